@@ -673,6 +673,34 @@ exports.main = function main(argv, options, callback) {
       hasOutput = true;
     }
 
+    // Write JavaScript bindings
+    if (args.bindingsFile != null) {
+      let bindings;
+      if (args.bindingsFile.length) {
+        stats.emitCount++;
+        stats.emitTime += measure(() => {
+          bindings = assemblyscript.buildBindings(program);
+        });
+        if (checkDiagnostics(parser, stderr)) {
+          module.dispose();
+          return callback(Error("Bindings error"));
+        }
+        writeFile(path.join(baseDir, args.bindingsFile), bindings);
+      } else if (!hasStdout) {
+        stats.emitCount++;
+        stats.emitTime += measure(() => {
+          bindings = assemblyscript.buildBindings(program);
+        });
+        if (checkDiagnostics(parser, stderr)) {
+          module.dispose();
+          return callback(Error("Bindings error"));
+        }
+        writeStdout(bindings);
+        hasStdout = true;
+      }
+      hasOutput = true;
+    }
+
     // Write text (must be last)
     if (args.textFile != null || !hasOutput) {
       let wat;
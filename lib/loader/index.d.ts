@@ -36,6 +36,10 @@ interface ASUtil {
   newString(str: string): number;
   /** Gets a string from the module's memory by its pointer. */
   getString(ptr: number): string;
+  /** Gets the runtime class id of the object at the specified pointer. */
+  getClassId(ptr: number): number;
+  /** Tests if the object at the specified pointer is an instance of the class of the specified id. */
+  instanceOf(ptr: number, classId: number): boolean;
 }
 
 /** Instantiates an AssemblyScript module using the specified imports. */
@@ -5,15 +5,23 @@ const hasBigInt64 = typeof BigUint64Array !== "undefined";
 /** Instantiates an AssemblyScript module using the specified imports. */
 function instantiate(module, imports) {
 
-  // Set up the imports object
-  if (!imports) imports = {};
-  if (!imports.env) imports.env = {};
+  // Set up the imports object, without modifying the caller's
+  imports = Object.assign({}, imports);
+  imports.env = Object.assign({}, imports.env);
   if (!imports.env.abort) imports.env.abort = function(mesg, file, line, colm) {
     mesg = mem ? getString(mesg) : "";
     file = mem ? getString(file) : "<instantiate>";
     throw Error("abort: " + mesg + " at " + file + ":" + line + ":" + colm);
   }
 
+  // Provide the clocks used by Date and performance
+  if (!imports.Date) imports.Date = { now: Date.now };
+  if (!imports.performance) imports.performance = {
+    now: typeof performance !== "undefined"
+      ? function() { return performance.now(); }
+      : Date.now
+  };
+
   // Instantiate the module and obtain its (flat) exports
   var instance = new WebAssembly.Instance(module, imports);
   var exports = instance.exports;
@@ -71,6 +79,25 @@ function instantiate(module, imports) {
     return parts.join("") + String.fromCharCode.apply(String, U16.subarray(dataOffset, dataOffset + dataRemain));
   }
 
+  /** Gets the runtime class id of the object at the specified pointer. */
+  function getClassId(ptr) {
+    checkMem();
+    return U32[(ptr - 4) >>> 2];
+  }
+
+  /** Tests if the object at the specified pointer is an instance of the class of the specified id. */
+  function instanceOf(ptr, classId) {
+    var rttiBase = exports.RTTI_BASE;
+    if (rttiBase === undefined) return false;
+    if (typeof rttiBase === "object") rttiBase = rttiBase.value; // WebAssembly.Global
+    var id = getClassId(ptr);
+    while (id) {
+      if (id === classId) return true;
+      id = U32[(rttiBase + id * 12 - 4) >>> 2]; // base id of the RTTI entry
+    }
+    return false;
+  }
+
   // Demangle exports and provide the usual utility on the prototype
   return demangle(exports, {
     get I8() { checkMem(); return I8; },
@@ -84,7 +111,9 @@ function instantiate(module, imports) {
     get F32() { checkMem(); return F32; },
     get F64() { checkMem(); return F64; },
     newString,
-    getString
+    getString,
+    getClassId,
+    instanceOf
   });
 }
 
@@ -8,6 +8,12 @@ var module = loader.instantiateBuffer(buffer, {});
 
 console.log(inspect(module, true, 100, true));
 
+// should not modify the imports object
+var imports = { env: {} };
+loader.instantiateBuffer(buffer, imports);
+assert.deepStrictEqual(Object.keys(imports), [ "env" ]);
+assert.deepStrictEqual(Object.keys(imports.env), []);
+
 // should inherit the usual utility
 var proto = Object.getPrototypeOf(module);
 assert(proto.I8 instanceof Int8Array);
@@ -0,0 +1,291 @@
+// Generates the Unicode tables of std/assembly/internal/unicode.ts from the Unicode Character Database
+// of the pinned version of the 'ucd-full' package.
+var fs = require("fs");
+
+const UCD_VERSION = require("ucd-full/package.json").version.replace(/\.\d+$/, ""); // patch level is the package's
+
+const MAX_CODE_POINT = 0x10FFFF;
+const HANGUL_SBASE = 0xAC00;
+const HANGUL_SEND = 0xD7A3;
+
+function isSurrogate(cp) {
+  return cp >= 0xD800 && cp <= 0xDFFF;
+}
+
+function parseCodePoints(str) {
+  return str.split(" ").map(hex => parseInt(hex, 16));
+}
+
+function toCodeUnits(cps) {
+  var units = [];
+  for (let cp of cps) {
+    if (cp >= 0x10000) units.push(0xD800 + ((cp - 0x10000) >> 10), 0xDC00 + ((cp - 0x10000) & 0x3FF));
+    else units.push(cp);
+  }
+  return units;
+}
+
+// Character database
+
+var unicodeData = new Map(); // code point -> entry, excluding ranges of characters without mappings
+for (let entry of require("ucd-full/UnicodeData.json").UnicodeData) {
+  unicodeData.set(parseInt(entry.codepoint, 16), entry);
+}
+
+var specialCasing = new Map(); // code point -> entry, excluding conditional mappings
+for (let entry of require("ucd-full/SpecialCasing.json").SpecialCasing) {
+  if (!entry.conditions) specialCasing.set(parseInt(entry.codepoint, 16), entry);
+}
+
+/** Gets the ranges of code points with the specified property of a property file as `lo, hi`. */
+function getPropertyRanges(name, property) {
+  var ranges = [];
+  var range = null;
+  for (let entry of require("ucd-full/" + name + ".json")[name]) {
+    if (entry.property != property) continue;
+    let lo = parseInt(entry.range[0], 16);
+    let hi = entry.range.length > 1 ? parseInt(entry.range[1], 16) : lo;
+    if (range && range[1] == lo - 1) range[1] = hi;
+    else ranges.push(range = [ lo, hi ]);
+  }
+  return ranges.sort((a, b) => a[0] - b[0]);
+}
+
+/** Gets the full lower case mapping of a code point, as applied by `String#toLowerCase`. */
+function toLowerCase(cp) {
+  var special = specialCasing.get(cp);
+  if (special) return parseCodePoints(special.lowerSequence.join(" "));
+  var entry = unicodeData.get(cp);
+  return entry && entry.lower ? [ parseInt(entry.lower, 16) ] : [ cp ];
+}
+
+/** Gets the full upper case mapping of a code point, as applied by `String#toUpperCase`. */
+function toUpperCase(cp) {
+  var special = specialCasing.get(cp);
+  if (special) return parseCodePoints(special.upperSequence.join(" "));
+  var entry = unicodeData.get(cp);
+  return entry && entry.upper ? [ parseInt(entry.upper, 16) ] : [ cp ];
+}
+
+function getCombiningClass(cp) {
+  var entry = unicodeData.get(cp);
+  return entry ? parseInt(entry.canonicalCombiningClass, 10) : 0;
+}
+
+/** Gets the decomposition mapping of a code point, if any, with compatibility mappings being tagged. */
+function getDecompositionMapping(cp) {
+  var entry = unicodeData.get(cp);
+  if (!entry || !entry.characterDecompositionMapping) return null;
+  var mapping = entry.characterDecompositionMapping;
+  var match = /^<[^>]+> /.exec(mapping);
+  return {
+    compatibility: match != null,
+    cps: parseCodePoints(match ? mapping.substring(match[0].length) : mapping)
+  };
+}
+
+/** Gets the full decomposition of a code point in canonical order, optionally applying compatibility mappings. */
+function decompose(cp, compatibility) {
+  var cps = [];
+  (function recurse(cp) {
+    var mapping = getDecompositionMapping(cp);
+    if (mapping && (compatibility || !mapping.compatibility)) mapping.cps.forEach(recurse);
+    else cps.push(cp);
+  })(cp);
+  for (let i = 1; i < cps.length; ++i) { // stable, only moving non-starters past higher classes
+    let cc = getCombiningClass(cps[i]);
+    if (!cc) continue;
+    for (let j = i; j > 0; --j) {
+      let before = getCombiningClass(cps[j - 1]);
+      if (before <= cc) break;
+      let t = cps[j - 1]; cps[j - 1] = cps[j]; cps[j] = t;
+    }
+  }
+  return cps;
+}
+
+// Case mapping
+
+/** Computes runs of code points mapping to a single code point at the same distance. */
+function buildCaseRuns(map) {
+  var runs = []; // start, end, stride, delta
+  var run = null;
+  for (let cp = 0; cp <= MAX_CODE_POINT; ++cp) {
+    if (isSurrogate(cp)) continue;
+    let mapped = map(cp);
+    if (mapped.length != 1 || mapped[0] == cp) continue;
+    let delta = mapped[0] - cp;
+    if (run && run[3] == delta) {
+      let stride = cp - run[1];
+      if (run[0] == run[1] && stride <= 2) {
+        run[1] = cp;
+        run[2] = stride;
+        continue;
+      }
+      if (stride == run[2]) {
+        run[1] = cp;
+        continue;
+      }
+    }
+    run = [ cp, cp, 1, delta ];
+    runs.push(run);
+  }
+  return runs;
+}
+
+/** Computes code points mapping to multiple code units, with up to three code units each. */
+function buildCaseSpecials(map) {
+  var specials = []; // code point, three code units
+  for (let cp = 0; cp <= MAX_CODE_POINT; ++cp) {
+    if (isSurrogate(cp)) continue;
+    let mapped = map(cp);
+    if (mapped.length == 1) continue;
+    let units = toCodeUnits(mapped);
+    if (units.length > 3) throw Error("special case mapping too long: " + cp.toString(16));
+    while (units.length < 3) units.push(0);
+    specials.push([ cp ].concat(units));
+  }
+  return specials;
+}
+
+// Normalization
+
+/**
+ * Computes runs of non-starters as `start, end, rank`. Canonical ordering and composition only depend on
+ * the relative order of canonical combining classes, so the classes in use are ranked densely.
+ */
+function buildCombiningClassRuns() {
+  var classes = new Map();
+  for (let [ cp, entry ] of unicodeData) {
+    let cc = parseInt(entry.canonicalCombiningClass, 10);
+    if (cc) classes.set(cp, cc);
+  }
+  var ranks = new Map();
+  Array.from(new Set(classes.values())).sort((a, b) => a - b).forEach((cc, i) => ranks.set(cc, i + 1));
+  var runs = []; // start, end, rank
+  var run = null;
+  for (let cp of Array.from(classes.keys()).sort((a, b) => a - b)) {
+    let rank = ranks.get(classes.get(cp));
+    if (run && run[1] == cp - 1 && run[2] == rank) run[1] = cp;
+    else runs.push(run = [ cp, cp, rank ]);
+  }
+  return runs;
+}
+
+/** Computes full decompositions, of compatibility ones only those differing from canonical ones. */
+function buildDecompositions(compatibility) {
+  var entries = []; // code point, offset << 5 | length
+  var data = [];
+  for (let cp of Array.from(unicodeData.keys()).sort((a, b) => a - b)) {
+    if (cp >= HANGUL_SBASE && cp <= HANGUL_SEND) continue;
+    let decomposed = decompose(cp, compatibility);
+    if (decomposed.length == 1 && decomposed[0] == cp) continue;
+    if (compatibility && decomposed.join() == decompose(cp, false).join()) continue;
+    let units = toCodeUnits(decomposed);
+    if (units.length >= 32) throw Error("decomposition too long: " + cp.toString(16));
+    entries.push([ cp, data.length << 5 | units.length ]);
+    Array.prototype.push.apply(data, units);
+  }
+  return { entries, data };
+}
+
+/** Computes the pairs of code points composing to a primary composite. */
+function buildCompositions() {
+  var exclusions = new Set();
+  for (let [ lo, hi ] of getPropertyRanges("DerivedNormalizationProps", "Full_Composition_Exclusion")) {
+    for (let cp = lo; cp <= hi; ++cp) exclusions.add(cp);
+  }
+  var compositions = []; // first, second, composite
+  for (let cp of unicodeData.keys()) {
+    if (exclusions.has(cp)) continue;
+    let mapping = getDecompositionMapping(cp);
+    if (!mapping || mapping.compatibility || mapping.cps.length != 2) continue;
+    compositions.push([ mapping.cps[0], mapping.cps[1], cp ]);
+  }
+  compositions.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  return compositions;
+}
+
+// Output
+
+function hex(value) {
+  return value < 0 ? "-0x" + (-value).toString(16).toUpperCase() : "0x" + value.toString(16).toUpperCase();
+}
+
+function pushTable(sb, comment, name, type, rows) {
+  sb.push("/** " + comment + " */\n");
+  sb.push("@inline\n");
+  sb.push("export function " + name + "(): " + type + "[] {\n");
+  sb.push("  const table: " + type + "[] = [\n");
+  for (let i = 0; i < rows.length; ++i) {
+    sb.push("    " + rows[i].map(hex).join(", ") + (i < rows.length - 1 ? ",\n" : "\n"));
+  }
+  sb.push("  ];\n");
+  sb.push("  return table; // inlines to a constant memory offset\n");
+  sb.push("}\n\n");
+}
+
+function chunk(values, size) {
+  var rows = [];
+  for (let i = 0; i < values.length; i += size) rows.push(values.slice(i, i + size));
+  return rows;
+}
+
+var canonical = buildDecompositions(false);
+var compatibility = buildDecompositions(true);
+
+var sb = [
+  "// Generated by scripts/build-unicode.js from Unicode " + UCD_VERSION + ". Do not edit.\n\n",
+  "/* tslint:disable:max-line-length */\n\n"
+];
+pushTable(sb,
+  "Runs of code points with a single lower case mapping as `start, end, stride, delta`.",
+  "LOWER_CASE_RUNS", "i32", buildCaseRuns(toLowerCase)
+);
+pushTable(sb,
+  "Code points with a lower case mapping to multiple code units as `code point, unit, unit, unit`.",
+  "LOWER_CASE_SPECIALS", "i32", buildCaseSpecials(toLowerCase)
+);
+pushTable(sb,
+  "Runs of code points with a single upper case mapping as `start, end, stride, delta`.",
+  "UPPER_CASE_RUNS", "i32", buildCaseRuns(toUpperCase)
+);
+pushTable(sb,
+  "Code points with an upper case mapping to multiple code units as `code point, unit, unit, unit`.",
+  "UPPER_CASE_SPECIALS", "i32", buildCaseSpecials(toUpperCase)
+);
+pushTable(sb,
+  "Ranges of code points with the Cased property as `lo, hi`.",
+  "CASED_RANGES", "i32", getPropertyRanges("DerivedCoreProperties", "Cased")
+);
+pushTable(sb,
+  "Ranges of code points with the Case_Ignorable property as `lo, hi`.",
+  "CASE_IGNORABLE_RANGES", "i32", getPropertyRanges("DerivedCoreProperties", "Case_Ignorable")
+);
+pushTable(sb,
+  "Runs of non-starters as `start, end, rank`, with ranks ordered like canonical combining classes.",
+  "COMBINING_CLASS_RUNS", "i32", buildCombiningClassRuns()
+);
+pushTable(sb,
+  "Full canonical decompositions as `code point, offset << 5 | length` into `CANONICAL_DATA`.",
+  "CANONICAL_DECOMPOSITIONS", "i32", canonical.entries
+);
+pushTable(sb,
+  "Code units of the full canonical decompositions.",
+  "CANONICAL_DATA", "u16", chunk(canonical.data, 16)
+);
+pushTable(sb,
+  "Full compatibility decompositions differing from canonical ones, as `code point, offset << 5 | length`.",
+  "COMPATIBILITY_DECOMPOSITIONS", "i32", compatibility.entries
+);
+pushTable(sb,
+  "Code units of the full compatibility decompositions.",
+  "COMPATIBILITY_DATA", "u16", chunk(compatibility.data, 16)
+);
+pushTable(sb,
+  "Canonical compositions of primary composites as `first, second, composite`.",
+  "COMPOSITIONS", "i32", buildCompositions()
+);
+sb[sb.length - 1] = sb[sb.length - 1].replace(/\n\n$/, "\n");
+
+fs.writeFileSync(__dirname + "/../std/assembly/internal/unicode.ts", sb.join(""), { encoding: "utf8" });
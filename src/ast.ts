@@ -35,6 +35,7 @@ export enum NodeKind {
   TYPEPARAMETER,
   PARAMETER,
   SIGNATURE,
+  TUPLETYPE,
 
   // expressions
   IDENTIFIER,
@@ -52,6 +53,7 @@ export enum NodeKind {
   NULL,
   PARENTHESIZED,
   PROPERTYACCESS,
+  SPREAD,
   TERNARY,
   SUPER,
   THIS,
@@ -70,6 +72,7 @@ export enum NodeKind {
   EXPORTIMPORT,
   EXPRESSION,
   FOR,
+  FOROF,
   IF,
   IMPORT,
   RETURN,
@@ -221,6 +224,17 @@ export abstract class Node {
     return sig;
   }
 
+  static createTupleType(
+    elementTypes: CommonTypeNode[],
+    range: Range
+  ): TupleTypeNode {
+    var type = new TupleTypeNode();
+    type.range = range;
+    type.elementTypes = elementTypes; setParent(elementTypes, type);
+    type.isNullable = false;
+    return type;
+  }
+
   // special
 
   static createDecorator(
@@ -478,6 +492,16 @@ export abstract class Node {
     return expr;
   }
 
+  static createSpreadExpression(
+    expression: Expression,
+    range: Range
+  ): SpreadExpression {
+    var expr = new SpreadExpression();
+    expr.range = range;
+    expr.expression = expression; expression.parent = expr;
+    return expr;
+  }
+
   static createTernaryExpression(
     condition: Expression,
     ifThen: Expression,
@@ -502,6 +526,18 @@ export abstract class Node {
     return expr;
   }
 
+  static createTemplateLiteralExpression(
+    parts: string[],
+    expressions: Expression[],
+    range: Range
+  ): TemplateLiteralExpression {
+    var expr = new TemplateLiteralExpression();
+    expr.range = range;
+    expr.parts = parts;
+    expr.expressions = expressions; setParent(expressions, expr);
+    return expr;
+  }
+
   static createSuperExpression(
     range: Range
   ): SuperExpression {
@@ -850,6 +886,20 @@ export abstract class Node {
     return stmt;
   }
 
+  static createForOfStatement(
+    variable: VariableStatement,
+    iterable: Expression,
+    statement: Statement,
+    range: Range
+  ): ForOfStatement {
+    var stmt = new ForOfStatement();
+    stmt.range = range;
+    stmt.variable = variable; variable.parent = stmt;
+    stmt.iterable = iterable; iterable.parent = stmt;
+    stmt.statement = statement; statement.parent = stmt;
+    return stmt;
+  }
+
   static createFunctionDeclaration(
     name: IdentifierExpression,
     typeParameters: TypeParameterNode[] | null,
@@ -1109,6 +1159,20 @@ export class SignatureNode extends CommonTypeNode {
   explicitThisType: TypeNode | null; // can't be a function
 }
 
+/** Tests if the specified type node is the return type of a signature. */
+export function isReturnType(node: CommonTypeNode): bool {
+  var parent = node.parent;
+  return parent !== null && parent.kind == NodeKind.SIGNATURE && (<SignatureNode>parent).returnType === node;
+}
+
+/** Represents a tuple type, i.e. `[i32, f64]`. */
+export class TupleTypeNode extends CommonTypeNode {
+  kind = NodeKind.TUPLETYPE;
+
+  /** Element types. */
+  elementTypes: CommonTypeNode[];
+}
+
 // special
 
 /** Built-in decorator kinds. */
@@ -1123,12 +1187,13 @@ export enum DecoratorKind {
   SEALED,
   INLINE,
   EXTERNAL,
-  BUILTIN
+  BUILTIN,
+  SERIALIZABLE
 }
 
 /** Returns the kind of the specified decorator. Defaults to {@link DecoratorKind.CUSTOM}. */
 export function decoratorNameToKind(name: Expression): DecoratorKind {
-  // @global, @inline, @operator, @sealed, @unmanaged
+  // @global, @inline, @operator, @sealed, @serializable, @unmanaged
   if (name.kind == NodeKind.IDENTIFIER) {
     let nameStr = (<IdentifierExpression>name).text;
     assert(nameStr.length);
@@ -1155,6 +1220,7 @@ export function decoratorNameToKind(name: Expression): DecoratorKind {
       }
       case CharCode.s: {
         if (nameStr == "sealed") return DecoratorKind.SEALED;
+        if (nameStr == "serializable") return DecoratorKind.SERIALIZABLE;
         break;
       }
       case CharCode.u: {
@@ -1242,7 +1308,8 @@ export enum LiteralKind {
   STRING,
   REGEXP,
   ARRAY,
-  OBJECT
+  OBJECT,
+  TEMPLATE
 }
 
 /** Base class of all literal expressions. */
@@ -1430,6 +1497,14 @@ export class TernaryExpression extends Expression {
   ifElse: Expression;
 }
 
+/** Represents a spread expression, e.g. `...args`. */
+export class SpreadExpression extends Expression {
+  kind = NodeKind.SPREAD;
+
+  /** Expression being spread. */
+  expression: Expression;
+}
+
 /** Represents a string literal expression. */
 export class StringLiteralExpression extends LiteralExpression {
   literalKind = LiteralKind.STRING;
@@ -1438,6 +1513,16 @@ export class StringLiteralExpression extends LiteralExpression {
   value: string;
 }
 
+/** Represents a template literal expression. */
+export class TemplateLiteralExpression extends LiteralExpression {
+  literalKind = LiteralKind.TEMPLATE;
+
+  /** String parts surrounding the substitutions, one more than there are expressions. */
+  parts: string[];
+  /** Substituted expressions. */
+  expressions: Expression[];
+}
+
 /** Represents a `super` expression. */
 export class SuperExpression extends IdentifierExpression {
   kind = NodeKind.SUPER;
@@ -1533,6 +1618,10 @@ export class Source extends Node {
   debugInfoIndex: i32 = -1;
   /** Re-exported sources. */
   exportPaths: Set<string> | null = null;
+  /** Names possibly referring to top-level locals captured by closures, if any. */
+  capturedNames: Set<string> | null = null;
+  /** Whether any `try` statement has been parsed. */
+  hasTryStatement: bool = false;
 
   /** Constructs a new source node. */
   constructor(normalizedPath: string, text: string, kind: SourceKind) {
@@ -1772,6 +1861,18 @@ export class ForStatement extends Statement {
   statement: Statement;
 }
 
+/** Represents a `for...of` statement. */
+export class ForOfStatement extends Statement {
+  kind = NodeKind.FOROF;
+
+  /** Variable statement declaring the variable holding each value. */
+  variable: VariableStatement;
+  /** Expression being iterated over. */
+  iterable: Expression;
+  /** Statement being looped over. */
+  statement: Statement;
+}
+
 /** Represents a `function` declaration. */
 export class FunctionDeclaration extends DeclarationStatement {
   kind = NodeKind.FUNCTIONDECLARATION;
@@ -1782,6 +1883,8 @@ export class FunctionDeclaration extends DeclarationStatement {
   signature: SignatureNode;
   /** Body statement. Usually a block. */
   body: Statement | null;
+  /** Names possibly referring to locals captured by closures within, if any. */
+  capturedNames: Set<string> | null = null;
 
   get isGeneric(): bool {
     var typeParameters = this.typeParameters;
@@ -6,7 +6,8 @@
  import {
   Compiler,
   ConversionKind,
-  WrapMode
+  WrapMode,
+  Feature
 } from "./compiler";
 
 import {
@@ -32,6 +33,7 @@ import {
   BinaryOp,
   UnaryOp,
   HostOp,
+  AtomicRMWOp,
   NativeType,
   ExpressionRef,
   ExpressionId,
@@ -93,6 +95,14 @@ export function compileCall(
         ? module.createI32(1)
         : module.createI32(0);
     }
+    case "isBoolean": { // isBoolean<T!>() / isBoolean<T?>(value: T) -> bool
+      let type = evaluateConstantType(compiler, typeArguments, operands, reportNode);
+      compiler.currentType = Type.bool;
+      if (!type) return module.createUnreachable();
+      return type.kind == TypeKind.BOOL
+        ? module.createI32(1)
+        : module.createI32(0);
+    }
     case "isFloat": { // isFloat<T!>() / isFloat<T?>(value: T) -> bool
       let type = evaluateConstantType(compiler, typeArguments, operands, reportNode);
       compiler.currentType = Type.bool;
@@ -175,6 +185,23 @@ export function compileCall(
       compiler.currentType = Type.bool;
       return module.createI32(getExpressionId(expr) == ExpressionId.Const ? 1 : 0);
     }
+    case "isUnchecked": { // isUnchecked() -> bool
+      compiler.currentType = Type.bool;
+      if (typeArguments) {
+        compiler.error(
+          DiagnosticCode.Type_0_is_not_generic,
+          reportNode.range, prototype.internalName
+        );
+      }
+      if (operands.length != 0) {
+        compiler.error(
+          DiagnosticCode.Expected_0_arguments_but_got_1,
+          reportNode.range, "0", operands.length.toString(10)
+        );
+        return module.createUnreachable();
+      }
+      return module.createI32(compiler.currentFunction.flow.is(FlowFlags.UNCHECKED_CONTEXT) ? 1 : 0);
+    }
     case "isManaged": { // isManaged<T>() -> bool
       if (!compiler.program.hasGC) {
         compiler.currentType = Type.bool;
@@ -183,8 +210,7 @@ export function compileCall(
       let type = evaluateConstantType(compiler, typeArguments, operands, reportNode);
       compiler.currentType = Type.bool;
       if (!type) return module.createUnreachable();
-      let classType = type.classReference;
-      return classType !== null && !classType.hasDecorator(DecoratorFlags.UNMANAGED)
+      return type.isManaged(compiler.program)
         ? module.createI32(1)
         : module.createI32(0);
     }
@@ -1995,6 +2021,165 @@ export function compileCall(
       // return module.createHost(HostOp.SetMemory, null, [ arg0, arg1, arg2 ]);
     }
 
+    // atomics, see: https://github.com/WebAssembly/threads
+
+    case "atomic.load": { // atomic.load<T!>(offset: usize, constantOffset?: usize) -> T
+      compiler.currentType = Type.void;
+      let type = checkAtomicType(compiler, typeArguments, reportNode); // reports
+      if (operands.length < 1 || operands.length > 2) {
+        compiler.error(
+          operands.length < 1
+            ? DiagnosticCode.Expected_at_least_0_arguments_but_got_1
+            : DiagnosticCode.Expected_0_arguments_but_got_1,
+          reportNode.range, operands.length < 1 ? "1" : "2", operands.length.toString(10)
+        );
+        return module.createUnreachable();
+      }
+      if (!type) return module.createUnreachable();
+      arg0 = compiler.compileExpression(
+        operands[0],
+        compiler.options.usizeType,
+        ConversionKind.IMPLICIT,
+        WrapMode.NONE
+      );
+      let offset = operands.length == 2 ? evaluateConstantOffset(compiler, operands[1]) : 0; // reports
+      if (offset < 0) { // reported in evaluateConstantOffset
+        return module.createUnreachable();
+      }
+      compiler.currentType = type;
+      return module.createAtomicLoad(type.byteSize, arg0, type.toNativeType(), offset);
+    }
+    case "atomic.store": { // atomic.store<T!>(offset: usize, value: T, constantOffset?: usize) -> void
+      let type = checkAtomicType(compiler, typeArguments, reportNode); // reports
+      compiler.currentType = Type.void;
+      if (operands.length < 2 || operands.length > 3) {
+        compiler.error(
+          operands.length < 2
+            ? DiagnosticCode.Expected_at_least_0_arguments_but_got_1
+            : DiagnosticCode.Expected_0_arguments_but_got_1,
+          reportNode.range, operands.length < 2 ? "2" : "3", operands.length.toString(10)
+        );
+        return module.createUnreachable();
+      }
+      if (!type) return module.createUnreachable();
+      arg0 = compiler.compileExpression(
+        operands[0],
+        compiler.options.usizeType,
+        ConversionKind.IMPLICIT,
+        WrapMode.NONE
+      );
+      arg1 = compiler.compileExpression(operands[1], type, ConversionKind.IMPLICIT, WrapMode.NONE);
+      let offset = operands.length == 3 ? evaluateConstantOffset(compiler, operands[2]) : 0; // reports
+      if (offset < 0) { // reported in evaluateConstantOffset
+        return module.createUnreachable();
+      }
+      compiler.currentType = Type.void;
+      return module.createAtomicStore(type.byteSize, arg0, arg1, type.toNativeType(), offset);
+    }
+    case "atomic.add": { // atomic.add<T!>(offset: usize, value: T, constantOffset?: usize) -> T
+      return compileAtomicRMW(AtomicRMWOp.Add, compiler, typeArguments, operands, reportNode);
+    }
+    case "atomic.sub": { // atomic.sub<T!>(offset: usize, value: T, constantOffset?: usize) -> T
+      return compileAtomicRMW(AtomicRMWOp.Sub, compiler, typeArguments, operands, reportNode);
+    }
+    case "atomic.and": { // atomic.and<T!>(offset: usize, value: T, constantOffset?: usize) -> T
+      return compileAtomicRMW(AtomicRMWOp.And, compiler, typeArguments, operands, reportNode);
+    }
+    case "atomic.or": { // atomic.or<T!>(offset: usize, value: T, constantOffset?: usize) -> T
+      return compileAtomicRMW(AtomicRMWOp.Or, compiler, typeArguments, operands, reportNode);
+    }
+    case "atomic.xor": { // atomic.xor<T!>(offset: usize, value: T, constantOffset?: usize) -> T
+      return compileAtomicRMW(AtomicRMWOp.Xor, compiler, typeArguments, operands, reportNode);
+    }
+    case "atomic.xchg": { // atomic.xchg<T!>(offset: usize, value: T, constantOffset?: usize) -> T
+      return compileAtomicRMW(AtomicRMWOp.Xchg, compiler, typeArguments, operands, reportNode);
+    }
+    case "atomic.cmpxchg": { // atomic.cmpxchg<T!>(offset: usize, expected: T, replacement: T, constOffset?: usize) -> T
+      compiler.currentType = Type.void;
+      let type = checkAtomicType(compiler, typeArguments, reportNode); // reports
+      if (operands.length < 3 || operands.length > 4) {
+        compiler.error(
+          operands.length < 3
+            ? DiagnosticCode.Expected_at_least_0_arguments_but_got_1
+            : DiagnosticCode.Expected_0_arguments_but_got_1,
+          reportNode.range, operands.length < 3 ? "3" : "4", operands.length.toString(10)
+        );
+        return module.createUnreachable();
+      }
+      if (!type) return module.createUnreachable();
+      arg0 = compiler.compileExpression(
+        operands[0],
+        compiler.options.usizeType,
+        ConversionKind.IMPLICIT,
+        WrapMode.NONE
+      );
+      arg1 = compiler.compileExpression(operands[1], type, ConversionKind.IMPLICIT, WrapMode.NONE);
+      arg2 = compiler.compileExpression(operands[2], type, ConversionKind.IMPLICIT, WrapMode.NONE);
+      let offset = operands.length == 4 ? evaluateConstantOffset(compiler, operands[3]) : 0; // reports
+      if (offset < 0) { // reported in evaluateConstantOffset
+        return module.createUnreachable();
+      }
+      compiler.currentType = type;
+      return module.createAtomicCmpxchg(type.byteSize, offset, arg0, arg1, arg2, type.toNativeType());
+    }
+    case "atomic.wait": { // atomic.wait<T!>(offset: usize, expected: T, timeout: i64) -> i32
+      let type = checkAtomicType(compiler, typeArguments, reportNode); // reports
+      compiler.currentType = Type.i32;
+      if (operands.length != 3) {
+        compiler.error(
+          DiagnosticCode.Expected_0_arguments_but_got_1,
+          reportNode.range, "3", operands.length.toString(10)
+        );
+        return module.createUnreachable();
+      }
+      if (!type) return module.createUnreachable();
+      if (type.size != 32 && type.size != 64) { // i32.atomic.wait or i64.atomic.wait
+        compiler.error(
+          DiagnosticCode.Operation_not_supported,
+          reportNode.range
+        );
+        return module.createUnreachable();
+      }
+      arg0 = compiler.compileExpression(
+        operands[0],
+        compiler.options.usizeType,
+        ConversionKind.IMPLICIT,
+        WrapMode.NONE
+      );
+      arg1 = compiler.compileExpression(operands[1], type, ConversionKind.IMPLICIT, WrapMode.NONE);
+      arg2 = compiler.compileExpression(operands[2], Type.i64, ConversionKind.IMPLICIT, WrapMode.NONE);
+      compiler.currentType = Type.i32;
+      return module.createAtomicWait(arg0, arg1, arg2, type.toNativeType());
+    }
+    case "atomic.notify": { // atomic.notify(offset: usize, count: i32) -> i32
+      compiler.currentType = Type.i32;
+      if (typeArguments) {
+        compiler.error(
+          DiagnosticCode.Type_0_is_not_generic,
+          reportNode.range, prototype.internalName
+        );
+      }
+      if (!checkFeatureEnabled(compiler, Feature.THREADS, reportNode)) {
+        return module.createUnreachable();
+      }
+      if (operands.length != 2) {
+        compiler.error(
+          DiagnosticCode.Expected_0_arguments_but_got_1,
+          reportNode.range, "2", operands.length.toString(10)
+        );
+        return module.createUnreachable();
+      }
+      arg0 = compiler.compileExpression(
+        operands[0],
+        compiler.options.usizeType,
+        ConversionKind.IMPLICIT,
+        WrapMode.NONE
+      );
+      arg1 = compiler.compileExpression(operands[1], Type.i32, ConversionKind.IMPLICIT, WrapMode.NONE);
+      compiler.currentType = Type.i32;
+      return module.createAtomicWake(arg0, arg1);
+    }
+
     // other
 
     case "changetype": { // changetype<T!>(value: *) -> T
@@ -2031,6 +2216,26 @@ export function compileCall(
       //  compiler.warning(DiagnosticCode.Operation_is_unsafe, reportNode.range);
       return arg0; // any usize to any usize
     }
+    case "instantiate": { // instantiate<T!>(...args: *[]) -> T
+      if (!(typeArguments && typeArguments.length == 1)) {
+        if (typeArguments && typeArguments.length) compiler.currentType = typeArguments[0];
+        compiler.error(
+          DiagnosticCode.Expected_0_type_arguments_but_got_1,
+          reportNode.range, "1", typeArguments ? typeArguments.length.toString(10) : "0"
+        );
+        return module.createUnreachable();
+      }
+      let classInstance = typeArguments[0].classReference;
+      if (!classInstance) {
+        compiler.error(
+          DiagnosticCode.Operation_not_supported,
+          reportNode.range
+        );
+        compiler.currentType = typeArguments[0];
+        return module.createUnreachable();
+      }
+      return compiler.compileInstantiate(classInstance, operands, reportNode);
+    }
     case "assert": { // assert<T?>(isTrueish: T, message?: string) -> T with T != null
       if (operands.length < 1 || operands.length > 2) {
         if (typeArguments) {
@@ -2302,6 +2507,9 @@ export function compileCall(
         );
         return module.createUnreachable();
       }
+      if (compiler.currentType.signatureReference) { // a function value, otherwise a table index
+        arg0 = compiler.makeCallTarget(arg0);
+      }
       let numOperands = operands.length - 1;
       let operandExprs = new Array<ExpressionRef>(numOperands);
       let signatureParts = new Array<string>(numOperands + 1);
@@ -2884,6 +3092,83 @@ function evaluateConstantOffset(compiler: Compiler, expression: Expression): i32
   return value;
 }
 
+/** Tests if the specified feature is enabled, reporting otherwise. */
+function checkFeatureEnabled(compiler: Compiler, feature: Feature, reportNode: Node): bool {
+  if (compiler.options.hasFeature(feature)) return true;
+  var name: string;
+  switch (feature) {
+    case Feature.THREADS: { name = "threads"; break; }
+    default: { assert(false); name = ""; }
+  }
+  compiler.error(
+    DiagnosticCode.Feature_0_is_not_enabled,
+    reportNode.range, name
+  );
+  return false;
+}
+
+/** Checks the type argument of an atomic operation, which must be an integer type. */
+function checkAtomicType(
+  compiler: Compiler,
+  typeArguments: Type[] | null,
+  reportNode: Node
+): Type | null {
+  if (typeArguments && typeArguments.length) compiler.currentType = typeArguments[0];
+  if (!(typeArguments && typeArguments.length == 1)) {
+    compiler.error(
+      DiagnosticCode.Expected_0_type_arguments_but_got_1,
+      reportNode.range, "1", typeArguments ? typeArguments.length.toString(10) : "0"
+    );
+    return null;
+  }
+  if (!checkFeatureEnabled(compiler, Feature.THREADS, reportNode)) return null;
+  var type = typeArguments[0];
+  if (!type.is(TypeFlags.INTEGER) || type.is(TypeFlags.REFERENCE)) {
+    compiler.error(
+      DiagnosticCode.Operation_not_supported,
+      reportNode.range
+    );
+    return null;
+  }
+  return type;
+}
+
+/** Compiles an atomic read-modify-write operation, returning the previous value. */
+function compileAtomicRMW(
+  op: AtomicRMWOp,
+  compiler: Compiler,
+  typeArguments: Type[] | null,
+  operands: Expression[],
+  reportNode: Node
+): ExpressionRef {
+  var module = compiler.module;
+  compiler.currentType = Type.void;
+  var type = checkAtomicType(compiler, typeArguments, reportNode); // reports
+  if (operands.length < 2 || operands.length > 3) {
+    compiler.error(
+      operands.length < 2
+        ? DiagnosticCode.Expected_at_least_0_arguments_but_got_1
+        : DiagnosticCode.Expected_0_arguments_but_got_1,
+      reportNode.range, operands.length < 2 ? "2" : "3", operands.length.toString(10)
+    );
+    return module.createUnreachable();
+  }
+  if (!type) return module.createUnreachable();
+  var arg0 = compiler.compileExpression(
+    operands[0],
+    compiler.options.usizeType,
+    ConversionKind.IMPLICIT,
+    WrapMode.NONE
+  );
+  var arg1 = compiler.compileExpression(operands[1], type, ConversionKind.IMPLICIT, WrapMode.NONE);
+  var offset = operands.length == 3 ? evaluateConstantOffset(compiler, operands[2]) : 0; // reports
+  if (offset < 0) { // reported in evaluateConstantOffset
+    return module.createUnreachable();
+  }
+  compiler.currentType = type;
+  return module.createAtomicRMW(op, type.byteSize, offset, arg0, arg1, type.toNativeType());
+}
+
 /** Compiles a memory allocation for an instance of the specified class. */
 export function compileAllocate(
   compiler: Compiler,
@@ -2899,18 +3184,19 @@ export function compileAllocate(
   if (program.hasGC && classInstance.type.isManaged(program)) {
     let allocateInstance = assert(program.gcAllocateInstance);
     if (!compiler.compileFunction(allocateInstance)) return module.createUnreachable();
-    compiler.currentType = classInstance.type;
-    return module.createCall(
+    let allocateExpr = module.createCall(
       allocateInstance.internalName, [
         options.isWasm64
           ? module.createI64(classInstance.currentMemoryOffset)
           : module.createI32(classInstance.currentMemoryOffset),
-        module.createI32(
+        compiler.ensureStaticFunction(
           ensureGCHook(compiler, classInstance)
         )
       ],
       options.nativeSizeType
     );
+    compiler.currentType = classInstance.type;
+    return makeClassIdStore(compiler, classInstance, allocateExpr); // always has a header
 
   // memory.allocate(size)
   } else {
@@ -2924,18 +3210,55 @@ export function compileAllocate(
     }
     if (!compiler.compileFunction(allocateInstance)) return module.createUnreachable();
 
-    compiler.currentType = classInstance.type;
-    return module.createCall(
+    let headerSize = classInstance.hasRuntimeClassId() ? program.classIdHeaderSize : 0;
+    let size = classInstance.currentMemoryOffset + headerSize;
+    let allocateExpr = module.createCall(
       allocateInstance.internalName, [
         options.isWasm64
-          ? module.createI64(classInstance.currentMemoryOffset)
-          : module.createI32(classInstance.currentMemoryOffset)
+          ? module.createI64(size)
+          : module.createI32(size)
       ],
       options.nativeSizeType
     );
+    compiler.currentType = classInstance.type;
+    if (!headerSize) return allocateExpr;
+    return makeClassIdStore(compiler, classInstance,
+      options.isWasm64
+        ? module.createBinary(BinaryOp.AddI64, allocateExpr, module.createI64(headerSize))
+        : module.createBinary(BinaryOp.AddI32, allocateExpr, module.createI32(headerSize))
+    );
   }
 }
 
+/** Stores the runtime class id of the specified class in front of a newly allocated instance. */
+function makeClassIdStore(
+  compiler: Compiler,
+  classInstance: Class,
+  refExpr: ExpressionRef
+): ExpressionRef {
+  var module = compiler.module;
+  var options = compiler.options;
+  var nativeSizeType = options.nativeSizeType;
+  var tempLocal = compiler.currentFunction.getAndFreeTempLocal(options.usizeType, false);
+  compiler.needsRTTI = true;
+  return module.createBlock(null, [
+    module.createStore(4,
+      options.isWasm64
+        ? module.createBinary(BinaryOp.SubI64,
+            module.createTeeLocal(tempLocal.index, refExpr),
+            module.createI64(4)
+          )
+        : module.createBinary(BinaryOp.SubI32,
+            module.createTeeLocal(tempLocal.index, refExpr),
+            module.createI32(4)
+          ),
+      module.createI32(classInstance.id),
+      NativeType.I32
+    ),
+    module.createGetLocal(tempLocal.index, nativeSizeType)
+  ], nativeSizeType);
+}
+
 /** Compiles an abort wired to the conditionally imported 'abort' function. */
 export function compileAbort(
   compiler: Compiler,
@@ -2982,15 +3305,16 @@ export function compileIterateRoots(compiler: Compiler): void {
     let global = <Global>element;
     let classReference = global.type.classReference;
     if (
-      global.is(CommonFlags.COMPILED) &&
-      classReference !== null &&
-      !classReference.hasDecorator(DecoratorFlags.UNMANAGED)
+      global.is(CommonFlags.COMPILED) && (
+        classReference !== null && !classReference.hasDecorator(DecoratorFlags.UNMANAGED) ||
+        global.type.signatureReference !== null // function values
+      )
     ) {
       if (global.is(CommonFlags.INLINED)) {
         let value = global.constantIntegerValue;
         exprs.push(
           module.createCallIndirect(
-            module.createGetLocal(0, NativeType.I32),
+            compiler.makeCallTarget(module.createGetLocal(0, NativeType.I32)),
             [
               compiler.options.isWasm64
                 ? module.createI64(i64_low(value), i64_high(value))
@@ -3002,7 +3326,7 @@ export function compileIterateRoots(compiler: Compiler): void {
       } else {
         exprs.push(
           module.createCallIndirect(
-            module.createGetLocal(0, NativeType.I32),
+            compiler.makeCallTarget(module.createGetLocal(0, NativeType.I32)),
             [
               module.createGetGlobal(
                 global.internalName,
@@ -3059,7 +3383,6 @@ export function ensureGCHook(
   var module = compiler.module;
   var options = compiler.options;
   var nativeSizeType = options.nativeSizeType;
-  var nativeSizeSize = options.usizeType.byteSize;
   var body = new Array<ExpressionRef>();
 
   // nothing to mark if 'this' is null
@@ -3115,17 +3438,7 @@ export function ensureGCHook(
           if (type.isManaged(program)) {
             let offset = (<Field>member).memoryOffset;
             assert(offset >= 0);
-            body.push(
-              module.createCall(assert(program.gcMarkInstance).internalName, [
-                module.createLoad(
-                  nativeSizeSize,
-                  false,
-                  module.createGetLocal(0, nativeSizeType),
-                  nativeSizeType,
-                  offset
-                )
-              ], NativeType.None)
-            );
+            body.push(makeMarkReference(compiler, type, offset));
           }
         }
       }
@@ -3143,3 +3456,86 @@ export function ensureGCHook(
   functionTable[gcHookIndex] = funcName;
   return gcHookIndex;
 }
+
+/**
+ * Ensures that the GC hook of closure environments and function values referencing other managed
+ * objects at the specified offsets exists and returns its function table index.
+ */
+export function ensureEnvGCHook(
+  compiler: Compiler,
+  types: Type[],
+  offsets: i32[]
+): u32 {
+  var program = compiler.program;
+  assert(program.hasGC);
+  var numReferences = offsets.length;
+  assert(types.length == numReferences);
+
+  // environments of the same layout share their hook
+  var funcName = "~lib/env~gc";
+  for (let i = 0; i < numReferences; ++i) funcName += "|" + offsets[i].toString(10);
+  var envGCHooks = compiler.envGCHooks;
+  if (envGCHooks.has(funcName)) return <u32>envGCHooks.get(funcName);
+
+  var module = compiler.module;
+  var options = compiler.options;
+  var nativeSizeType = options.nativeSizeType;
+  var body = new Array<ExpressionRef>();
+
+  // nothing to mark if the reference is null, otherwise mark itself and what it references
+  body.push(
+    module.createIf(
+      module.createUnary(
+        options.isWasm64
+          ? UnaryOp.EqzI64
+          : UnaryOp.EqzI32,
+        module.createGetLocal(0, nativeSizeType)
+      ),
+      module.createReturn()
+    )
+  );
+  body.push(
+    module.createCall(assert(program.gcMarkInstance).internalName, [
+      module.createGetLocal(0, nativeSizeType)
+    ], NativeType.None)
+  );
+  for (let i = 0; i < numReferences; ++i) {
+    body.push(makeMarkReference(compiler, types[i], offsets[i]));
+  }
+
+  // add the function to the module and return its table index
+  module.addFunction(
+    funcName,
+    compiler.ensureFunctionType(null, Type.void, options.usizeType),
+    null,
+    module.createBlock(null, body)
+  );
+  var functionTable = compiler.functionTable;
+  var gcHookIndex = functionTable.length;
+  functionTable.push(funcName);
+  envGCHooks.set(funcName, gcHookIndex);
+  return gcHookIndex;
+}
+
+/** Makes a call marking the reference of the specified type stored at the specified offset of a GC hook's `ref`. */
+function makeMarkReference(
+  compiler: Compiler,
+  type: Type,
+  offset: i32
+): ExpressionRef {
+  var module = compiler.module;
+  var options = compiler.options;
+  var nativeSizeType = options.nativeSizeType;
+  var loadExpr = module.createLoad(
+    type.byteSize,
+    false,
+    module.createGetLocal(0, nativeSizeType),
+    type.toNativeType(),
+    offset
+  );
+  // function values are 32-bit
+  if (options.isWasm64 && type.size == 32) loadExpr = module.createUnary(UnaryOp.ExtendU32, loadExpr);
+  return module.createCall(assert(compiler.program.gcMarkInstance).internalName, [
+    loadExpr
+  ], NativeType.None);
+}
@@ -66,7 +66,7 @@ export enum CommonFlags {
   SCOPED = 1 << 23,
   /** Is a trampoline. */
   TRAMPOLINE = 1 << 24,
-  /** Is a virtual method. */
+  /** Is a virtual method respectively a class whose instances carry a runtime class id. */
   VIRTUAL = 1 << 25,
   /** Is the main function. */
   MAIN = 1 << 26,
@@ -8,7 +8,8 @@ import {
   compileAllocate,
   compileAbort,
   compileIterateRoots,
-  ensureGCHook
+  ensureGCHook,
+  ensureEnvGCHook
 } from "./builtins";
 
 import {
@@ -44,6 +45,8 @@ import {
 import {
   CommonFlags,
   PATH_DELIMITER,
+  LIBRARY_PREFIX,
+  FILESPACE_PREFIX,
   INNER_DELIMITER,
   INSTANCE_DELIMITER,
   STATIC_DELIMITER,
@@ -54,6 +57,7 @@ import {
 import {
   Program,
   ClassPrototype,
+  Filespace,
   Class,
   Element,
   ElementKind,
@@ -71,8 +75,11 @@ import {
   FlowFlags,
   ConstantValueKind,
   Flow,
+  FinallyContext,
+  FinallyState,
   OperatorKind,
-  DecoratorFlags
+  DecoratorFlags,
+  RTTIFlags
 } from "./program";
 
 import {
@@ -91,6 +98,8 @@ import {
   Source,
   Range,
   DecoratorKind,
+  ParameterNode,
+  ParameterKind,
 
   Statement,
   BlockStatement,
@@ -105,6 +114,7 @@ import {
   ExpressionStatement,
   FunctionDeclaration,
   ForStatement,
+  ForOfStatement,
   IfStatement,
   ImportStatement,
   InstanceOfExpression,
@@ -133,11 +143,14 @@ import {
   LiteralKind,
   NewExpression,
   ObjectLiteralExpression,
+  RegexpLiteralExpression,
   ParenthesizedExpression,
   PropertyAccessExpression,
+  SpreadExpression,
   TernaryExpression,
   ArrayLiteralExpression,
   StringLiteralExpression,
+  TemplateLiteralExpression,
   UnaryPostfixExpression,
   UnaryPrefixExpression,
   FieldDeclaration,
@@ -153,7 +166,8 @@ import {
   TypeFlags,
   Signature,
 
-  typesToNativeTypes
+  typesToNativeTypes,
+  typesToString
 } from "./types";
 
 import {
@@ -162,7 +176,8 @@ import {
   writeI32,
   writeI64,
   writeF32,
-  writeF64
+  writeF64,
+  RegexpParser
 } from "./util";
 
 /** Compilation target. */
@@ -233,7 +248,13 @@ export const enum Feature {
   /** Sign extension operations. */
   SIGN_EXTENSION = 1 << 0, // see: https://github.com/WebAssembly/sign-extension-ops
   /** Mutable global imports and exports. */
-  MUTABLE_GLOBAL = 1 << 1  // see: https://github.com/WebAssembly/mutable-global
+  MUTABLE_GLOBAL = 1 << 1, // see: https://github.com/WebAssembly/mutable-global
+  /** Native exception handling. */
+  EXCEPTION_HANDLING = 1 << 2, // see: https://github.com/WebAssembly/exception-handling
+  /** Threads and atomic operations. */
+  THREADS = 1 << 3, // see: https://github.com/WebAssembly/threads
+  /** Multi-value results. */
+  MULTI_VALUE = 1 << 4 // see: https://github.com/WebAssembly/multi-value
 }
 
 /** Indicates the desired kind of a conversion. */
@@ -277,6 +298,8 @@ export class Compiler extends DiagnosticEmitter {
   currentType: Type = Type.void;
   /** Start function being compiled. */
   startFunctionInstance: Function;
+  /** Index in the start function's body where the environment of captured top-level locals is set up. */
+  startEnvIndex: i32 = -1;
   /** Start function statements. */
   startFunctionBody: ExpressionRef[];
   /** Counting memory offset. */
@@ -291,8 +314,32 @@ export class Compiler extends DiagnosticEmitter {
   argcVar: GlobalRef = 0;
   /** Argument count helper setter. */
   argcSet: FunctionRef = 0;
+  /** Pending exception helper global. */
+  exceptionVar: GlobalRef = 0;
+  /** Closure environment helper global. */
+  envVar: GlobalRef = 0;
+  /** Names of already added helper globals passing tuple elements other than the first. */
+  tupleVars: Set<string> = new Set();
+  /** Map of already compiled static function values by function table index. */
+  functionSegments: Map<i32,MemorySegment> = new Map();
+  /** Map of already generated GC hooks of closure environments and function values by name. */
+  envGCHooks: Map<string,u32> = new Map();
+  /** Names of already generated wrappers aborting on uncaught exceptions. */
+  uncaughtWrappers: Set<string> = new Set();
+  /** Map of already generated constructors of exported classes inheriting their constructor. */
+  inheritedConstructors: Map<Class,Function> = new Map();
   /** Indicates whether the iterateRoots function must be generated. */
   needsIterateRoots: bool = false;
+  /** Indicates whether the runtime type information table must be generated. */
+  needsRTTI: bool = false;
+  /** Dynamic instanceof helper function. */
+  instanceOfHelper: FunctionRef = 0;
+  /** Interfaces for which a helper checking whether the runtime class implements them has been requested. */
+  interfaceChecks: Class[] = [];
+  /** Virtual methods for which a stub dispatching on the runtime class has been requested. */
+  virtualMethods: Function[] = [];
+  /** Interface fields for which accessors dispatching on the runtime class have been requested. */
+  virtualFields: Field[] = [];
 
   /** Compiles a {@link Program} to a {@link Module} using the specified options. */
   static compile(program: Program, options: Options | null = null): Module {
@@ -336,6 +383,39 @@ export class Compiler extends DiagnosticEmitter {
       if (sources[i].isEntry) this.compileSource(sources[i]);
     }
 
+    // compile virtual stubs once all classes are known
+    if (this.virtualMethods.length || this.virtualFields.length) this.compileVirtualStubs();
+    for (let i = 0, k = this.interfaceChecks.length; i < k; ++i) {
+      this.compileInterfaceCheck(this.interfaceChecks[i]);
+    }
+
+    var entrySource: Source | null = null;
+    for (let i = 0, k = sources.length; i < k; ++i) {
+      if (sources[i].isEntry) { entrySource = sources[i]; break; }
+    }
+
+    // set up the environment of top-level locals captured by closures right before the first
+    // statement that may use it, that is after the memory allocator has been initialized
+    if (startFunctionInstance.envLocal) {
+      let startEnvIndex = this.startEnvIndex;
+      assert(startEnvIndex >= 0);
+      let stmts = startFunctionBody.slice(0, startEnvIndex);
+      let prologue = this.makeEnvPrologue(startFunctionInstance, assert(entrySource));
+      for (let i = 0, k = prologue.length; i < k; ++i) stmts.push(prologue[i]);
+      for (let i = startEnvIndex, k = startFunctionBody.length; i < k; ++i) stmts.push(startFunctionBody[i]);
+      this.startFunctionBody = startFunctionBody = stmts;
+    }
+
+    // abort on exceptions not handled by top-level statements
+    if (startFunctionInstance.mayThrow) {
+      startFunctionBody.push(module.createReturn());
+      startFunctionBody = [
+        module.createBlock("uncaught|start", startFunctionBody),
+        this.makeUncaughtAbort(assert(entrySource))
+      ];
+      this.startFunctionBody = startFunctionBody;
+    }
+
     // compile the start function if not empty or called by main
     if (startFunctionBody.length || program.mainFunction !== null) {
       let signature = startFunctionInstance.signature;
@@ -353,6 +433,9 @@ export class Compiler extends DiagnosticEmitter {
       if (!program.mainFunction) module.setStart(funcRef);
     }
 
+    // set up the runtime type information table if classes are identified at runtime
+    if (this.needsRTTI) this.compileRTTI();
+
     // set up static memory segments and the heap base pointer
     var memoryOffset = this.memoryOffset;
     memoryOffset = i64_align(memoryOffset, options.usizeType.byteSize);
@@ -374,21 +457,26 @@ export class Compiler extends DiagnosticEmitter {
     }
 
     // determine initial page size
+    var sharedMemory = options.hasFeature(Feature.THREADS);
     var numPages = this.memorySegments.length
       ? i64_low(i64_shr_u(i64_align(memoryOffset, 0x10000), i64_new(16, 0)))
       : 0;
     module.setMemory(
       numPages,
-      this.options.isWasm64
-        ? Module.MAX_MEMORY_WASM64
-        : Module.MAX_MEMORY_WASM32,
+      sharedMemory
+        ? Module.MAX_SHARED_MEMORY
+        : this.options.isWasm64
+          ? Module.MAX_MEMORY_WASM64
+          : Module.MAX_MEMORY_WASM32,
       this.memorySegments,
       options.target,
-      "memory"
+      "memory",
+      sharedMemory
     );
+    program.compilerExports.add("memory");
 
     // import memory if requested (default memory is named '0' by Binaryen)
-    if (options.importMemory) module.addMemoryImport("0", "env", "memory");
+    if (options.importMemory) module.addMemoryImport("0", "env", "memory", sharedMemory);
 
     // set up function table
     var functionTable = this.functionTable;
@@ -405,6 +493,7 @@ export class Compiler extends DiagnosticEmitter {
       module.addTableImport("0", "env", "table");
       if (!functionTableExported) module.addTableExport("0", "table");
     }
+    if (functionTableSize || options.importTable) program.compilerExports.add("table");
 
     // set up module exports
     for (let [name, moduleExport] of program.moduleLevelExports) {
@@ -477,12 +566,18 @@ export class Compiler extends DiagnosticEmitter {
       case ElementKind.FUNCTION: {
         let instance = <Function>element;
         let signature = instance.signature;
+        let mayThrow = instance.mayThrow;
         if (signature.requiredParameters < signature.parameterTypes.length) {
           // utilize trampoline to fill in omitted arguments
           instance = this.ensureTrampoline(instance);
           this.ensureArgcSet();
         }
-        if (instance.is(CommonFlags.COMPILED)) this.module.addFunctionExport(instance.internalName, prefix + name);
+        if (instance.is(CommonFlags.COMPILED)) {
+          let internalName = instance.internalName;
+          // abort on exceptions escaping to the host
+          if (mayThrow || instance.mayThrow) internalName = this.ensureUncaughtWrapper(instance);
+          this.module.addFunctionExport(internalName, prefix + name);
+        }
         break;
       }
 
@@ -560,6 +655,11 @@ export class Compiler extends DiagnosticEmitter {
             instanceName += fullName.substring(fullName.lastIndexOf("<"));
           }
           let ctor = instance.constructorInstance;
+          if (!ctor) { // export the inherited constructor, if any, allocating an instance of this class
+            let base = instance.base;
+            while (base && !(ctor = base.constructorInstance)) base = base.base;
+            if (ctor) ctor = this.ensureInheritedConstructor(instance, ctor);
+          }
           if (ctor) this.makeModuleExport(instanceName + INSTANCE_DELIMITER + ctor.simpleName, ctor, prefix);
           this.makeModuleExport(instanceName, instance, prefix);
         }
@@ -600,6 +700,12 @@ export class Compiler extends DiagnosticEmitter {
     var startFunctionInstance = this.startFunctionInstance;
     var startFunctionBody = this.startFunctionBody;
     var statements = source.statements;
+
+    // top-level locals of this file can only be captured by closures within this file
+    var previousCapturedNames = startFunctionInstance.capturedNames;
+    startFunctionInstance.capturedNames = null;
+    if (source.capturedNames) this.prepareEnv(startFunctionInstance, source.capturedNames);
+
     for (let i = 0, k = statements.length; i < k; ++i) {
       let statement = statements[i];
       switch (statement.kind) {
@@ -659,6 +765,7 @@ export class Compiler extends DiagnosticEmitter {
           break;
         }
         default: { // otherwise a top-level statement that is part of the start function's body
+          if (source.capturedNames && this.startEnvIndex < 0) this.startEnvIndex = startFunctionBody.length;
           let previousFunction = this.currentFunction;
           this.currentFunction = startFunctionInstance;
           startFunctionBody.push(this.compileStatement(statement));
@@ -667,6 +774,7 @@ export class Compiler extends DiagnosticEmitter {
         }
       }
     }
+    startFunctionInstance.capturedNames = previousCapturedNames;
   }
 
   // globals
@@ -799,8 +907,9 @@ export class Compiler extends DiagnosticEmitter {
         }
       }
 
-      // explicitly inline if annotated
-      if (global.hasDecorator(DecoratorFlags.INLINE)) {
+      // remember the value of constants and explicitly inline it if annotated
+      let isInline = global.hasDecorator(DecoratorFlags.INLINE);
+      if (isDeclaredConstant || isInline) {
         if (!initializeInStart) { // reported above
           assert(getExpressionId(initExpr) == ExpressionId.Const);
           let exprType = getExpressionType(initExpr);
@@ -833,7 +942,7 @@ export class Compiler extends DiagnosticEmitter {
               return false;
             }
           }
-          global.set(CommonFlags.INLINED); // inline the value from now on
+          if (isInline) global.set(CommonFlags.INLINED); // inline the value from now on
         }
       }
 
@@ -888,16 +997,14 @@ export class Compiler extends DiagnosticEmitter {
             WrapMode.NONE
           );
           if (getExpressionId(initExpr) != ExpressionId.Const) {
-            if (element.is(CommonFlags.CONST)) {
-              initExpr = module.precomputeExpression(initExpr);
-              if (getExpressionId(initExpr) != ExpressionId.Const) {
+            initExpr = module.precomputeExpression(initExpr);
+            if (getExpressionId(initExpr) != ExpressionId.Const) {
+              if (element.is(CommonFlags.CONST)) {
                 this.error(
                   DiagnosticCode.In_const_enum_declarations_member_initializer_must_be_constant_expression,
                   valueDeclaration.value.range
                 );
-                initInStart = true;
               }
-            } else {
               initInStart = true;
             }
           }
@@ -930,7 +1037,9 @@ export class Compiler extends DiagnosticEmitter {
           this.startFunctionBody.push(module.createSetGlobal(val.internalName, initExpr));
           previousValueIsMut = true;
         } else {
-          module.addGlobal(val.internalName, NativeType.I32, !element.is(CommonFlags.CONST), initExpr);
+          module.addGlobal(val.internalName, NativeType.I32, false, initExpr);
+          val.constantValue = getConstValueI32(initExpr);
+          val.set(CommonFlags.INLINED); // inline the value from now on
           previousValueIsMut = false;
         }
         previousValue = <EnumValue>val;
@@ -1043,6 +1152,10 @@ export class Compiler extends DiagnosticEmitter {
       let isConstructor = instance.is(CommonFlags.CONSTRUCTOR);
       let returnType = instance.signature.returnType;
 
+      // set up the environment if closures within may capture locals
+      let capturedNames = declaration.capturedNames;
+      if (capturedNames) this.prepareEnv(instance, capturedNames);
+
       // compile body
       let previousFunction = this.currentFunction;
       this.currentFunction = instance;
@@ -1115,6 +1228,13 @@ export class Compiler extends DiagnosticEmitter {
       }
       this.currentFunction = previousFunction;
 
+      // set up the environment before executing the body
+      if (instance.envLocal || instance.outerEnvLocal) {
+        let stmts = this.makeEnvPrologue(instance, declaration.name);
+        stmts.push(stmt);
+        stmt = module.createBlock(null, stmts, returnType.toNativeType());
+      }
+
       // create the function
       ref = module.addFunction(
         instance.internalName,
@@ -1442,11 +1562,8 @@ export class Compiler extends DiagnosticEmitter {
     contextualTypeArguments: Map<string,Type> | null = null,
     alternativeReportNode: Node | null = null
   ): void {
-    // TODO
-    this.error(
-      DiagnosticCode.Operation_not_supported,
-      declaration.range
-    );
+    // interfaces do not produce any code on their own. their members are compiled as part of the
+    // virtual stubs of the classes implementing them.
   }
 
   // memory
@@ -1479,6 +1596,45 @@ export class Compiler extends DiagnosticEmitter {
     return index;
   }
 
+  /** Ensures that a static function value exists for the specified table index and returns its offset. */
+  ensureFunctionSegment(index: i32): u32 {
+    var program = this.program;
+    var hasGC = program.hasGC;
+    var gcHeaderSize = program.gcHeaderSize;
+    var segments = this.functionSegments;
+    var segment: MemorySegment;
+    if (segments.has(index)) {
+      segment = <MemorySegment>segments.get(index);
+    } else {
+      let usizeType = this.options.usizeType;
+      if (hasGC) { // managed like function values of closures, possibly referencing its own GC hook
+        let buf = new Uint8Array(gcHeaderSize + 2 * usizeType.byteSize);
+        writeI32(index, buf, gcHeaderSize); // index, no environment
+        segment = this.addMemorySegment(buf);
+        segments.set(index, segment);
+        writeI32(
+          this.ensureFunctionSegment(ensureEnvGCHook(this, [ usizeType ], [ usizeType.byteSize ])),
+          buf,
+          program.gcHookOffset
+        );
+      } else {
+        let buf = new Uint8Array(2 * usizeType.byteSize); // index, no environment
+        writeI32(index, buf, 0);
+        segment = this.addMemorySegment(buf);
+        segments.set(index, segment);
+      }
+    }
+    var offset = segment.offset;
+    if (hasGC) offset = i64_add(offset, i64_new(gcHeaderSize));
+    assert(i64_is_u32(offset)); // function values are 32-bit
+    return i64_low(offset);
+  }
+
+  /** Ensures that a static function value exists for the specified table index and returns a pointer to it. */
+  ensureStaticFunction(index: i32): ExpressionRef {
+    return this.module.createI32(this.ensureFunctionSegment(index));
+  }
+
   // statements
 
   compileStatement(statement: Statement): ExpressionRef {
@@ -1513,6 +1669,10 @@ export class Compiler extends DiagnosticEmitter {
         stmt = this.compileForStatement(<ForStatement>statement);
         break;
       }
+      case NodeKind.FOROF: {
+        stmt = this.compileForOfStatement(<ForOfStatement>statement);
+        break;
+      }
       case NodeKind.IF: {
         stmt = this.compileIfStatement(<IfStatement>statement);
         break;
@@ -1626,7 +1786,7 @@ export class Compiler extends DiagnosticEmitter {
       return module.createUnreachable();
     }
     flow.set(FlowFlags.BREAKS);
-    return module.createBreak(breakLabel);
+    return this.makeBreak(breakLabel);
   }
 
   compileContinueStatement(statement: ContinueStatement): ExpressionRef {
@@ -1650,7 +1810,7 @@ export class Compiler extends DiagnosticEmitter {
       return module.createUnreachable();
     }
     flow.set(FlowFlags.CONTINUES);
-    return module.createBreak(continueLabel);
+    return this.makeBreak(continueLabel);
   }
 
   compileDoStatement(statement: DoStatement): ExpressionRef {
@@ -1677,13 +1837,15 @@ export class Compiler extends DiagnosticEmitter {
     currentFunction.flow = flow.free();
     currentFunction.leaveBreakContext();
     var terminated = flow.isAny(FlowFlags.ANY_TERMINATING);
+    var breaks = flow.isAny(FlowFlags.BREAKS | FlowFlags.CONDITIONALLY_BREAKS);
     flow.unset(
       FlowFlags.BREAKS |
       FlowFlags.CONDITIONALLY_BREAKS |
       FlowFlags.CONTINUES |
       FlowFlags.CONDITIONALLY_CONTINUES
     );
-    parentFlow.inherit(flow);
+    if (breaks) parentFlow.inheritConditional(flow); // code after the loop is reachable through breaks
+    else parentFlow.inherit(flow);
 
     var block: ExpressionRef[] = [
       module.createLoop(continueLabel,
@@ -1763,6 +1925,8 @@ export class Compiler extends DiagnosticEmitter {
     var bodyExpr = bodyStatement.kind == NodeKind.BLOCK && (<BlockStatement>bodyStatement).statements.length == 1
       ? this.compileStatement((<BlockStatement>bodyStatement).statements[0])
       : this.compileStatement(bodyStatement);
+    // bindings declared in the initializer are copied to new ones before the next iteration
+    var copyStmts = this.makeBindingEnvCopies(flow, statement);
 
     // Switch back to the parent flow
     currentFunction.flow = flow.free();
@@ -1794,6 +1958,224 @@ export class Compiler extends DiagnosticEmitter {
       );
       repeatBlock.push(bodyExpr);
     }
+    for (let i = 0, k = copyStmts.length; i < k; ++i) repeatBlock.push(copyStmts[i]);
+    if (incrExpr) repeatBlock.push(incrExpr);
+    repeatBlock.push(
+      module.createBreak(repeatLabel)
+    );
+
+    breakBlock.push(
+      module.createLoop(repeatLabel, module.createBlock(null, repeatBlock, NativeType.None))
+    );
+
+    return module.createBlock(breakLabel, breakBlock);
+  }
+
+  compileForOfStatement(statement: ForOfStatement): ExpressionRef {
+    // A for...of statement evaluates its iterable once and then obtains each value, by index if it
+    // is an array and otherwise from the iterator returned by its '__iterator' method, assigning it
+    // to the variable declared in its own branch before executing the body.
+    var module = this.module;
+    var program = this.program;
+    var resolver = this.resolver;
+    var currentFunction = this.currentFunction;
+    var iterable = statement.iterable;
+    var iterableExpr = this.compileExpressionRetainType(iterable, Type.void, WrapMode.NONE);
+    var iterableType = this.currentType;
+    var classReference = iterableType.classReference;
+    if (!classReference) {
+      this.error(
+        DiagnosticCode.Type_0_is_not_iterable,
+        iterable.range, iterableType.toString()
+      );
+      return module.createUnreachable();
+    }
+
+    // Resolve how to obtain the values
+    var isArray = classReference.prototype == program.arrayPrototype;
+    var getInstance: Function | null = null;  // arrays
+    var iteratorInstance: Function | null = null; // other iterables
+    var doneInstance: Function | null = null;
+    var nextInstance: Function | null = null;
+    var valueType: Type;
+    if (isArray) {
+      getInstance = assert(classReference.lookupOverload(OperatorKind.INDEXED_GET, true));
+      valueType = getInstance.signature.returnType;
+    } else {
+      let iteratorMember = classReference.lookupMember("__iterator");
+      if (
+        !iteratorMember ||
+        iteratorMember.kind != ElementKind.FUNCTION_PROTOTYPE ||
+        !iteratorMember.is(CommonFlags.INSTANCE)
+      ) {
+        this.error(
+          DiagnosticCode.Type_0_is_not_iterable,
+          iterable.range, iterableType.toString()
+        );
+        return module.createUnreachable();
+      }
+      iteratorInstance = resolver.resolveFunction(<FunctionPrototype>iteratorMember, null);
+      if (!iteratorInstance) return module.createUnreachable();
+      iteratorInstance = this.resolveVirtual(iteratorInstance, iterable, iterableType);
+      let iteratorType = iteratorInstance.signature.returnType;
+      let iteratorClass = iteratorType.classReference;
+      let doneMember = iteratorClass ? iteratorClass.lookupMember("done") : null;
+      let nextMember = iteratorClass ? iteratorClass.lookupMember("next") : null;
+      if (
+        !doneMember || doneMember.kind != ElementKind.PROPERTY || !(<Property>doneMember).getterPrototype ||
+        !nextMember || nextMember.kind != ElementKind.FUNCTION_PROTOTYPE
+      ) {
+        this.error(
+          DiagnosticCode.Type_0_is_not_iterable,
+          iterable.range, iterableType.toString()
+        );
+        return module.createUnreachable();
+      }
+      doneInstance = resolver.resolveFunction(<FunctionPrototype>(<Property>doneMember).getterPrototype, null);
+      nextInstance = resolver.resolveFunction(<FunctionPrototype>nextMember, null);
+      if (!doneInstance || !nextInstance) return module.createUnreachable();
+      doneInstance = this.resolveVirtual(doneInstance, statement, iteratorType);
+      nextInstance = this.resolveVirtual(nextInstance, statement, iteratorType);
+      valueType = nextInstance.signature.returnType;
+    }
+
+    // The variable takes the type of the values unless annotated
+    var declaration = statement.variable.declarations[0];
+    var type = valueType;
+    if (declaration.type) {
+      let resolvedType = resolver.resolveType( // reports
+        declaration.type,
+        currentFunction.flow.contextualTypeArguments
+      );
+      if (!resolvedType) return module.createUnreachable();
+      type = resolvedType;
+    }
+
+    var label = currentFunction.enterBreakContext();
+    var parentFlow = currentFunction.flow;
+    var flow = parentFlow.fork();
+    currentFunction.flow = flow;
+    var breakLabel = "break|" + label;
+    flow.breakLabel = breakLabel;
+    var continueLabel = "continue|" + label;
+    flow.continueLabel = continueLabel;
+    var repeatLabel = "repeat|" + label;
+
+    // Compile the iteration in terms of temporary locals
+    var nativeIterableType = iterableType.toNativeType();
+    var tempLocals = new Array<Local>();
+    var breakBlock = new Array<ExpressionRef>(); // outer 'break' block
+    var doneExpr: ExpressionRef;
+    var valueExpr: ExpressionRef;
+    var incrExpr: ExpressionRef = 0;
+    if (isArray) {
+      let arrayLocal = currentFunction.getTempLocal(iterableType, false);
+      let indexLocal = currentFunction.getTempLocal(Type.i32, false);
+      tempLocals.push(arrayLocal);
+      tempLocals.push(indexLocal);
+      breakBlock.push(module.createSetLocal(arrayLocal.index, iterableExpr));
+      breakBlock.push(module.createSetLocal(indexLocal.index, module.createI32(0)));
+      // the length is obtained on each iteration, so values pushed by the body are visited as well
+      doneExpr = module.createBinary(BinaryOp.GeI32,
+        module.createGetLocal(indexLocal.index, NativeType.I32),
+        module.createLoad(4, false,
+          module.createGetLocal(arrayLocal.index, nativeIterableType),
+          NativeType.I32,
+          classReference.offsetof("length_")
+        )
+      );
+      valueExpr = this.makeCallDirect(assert(getInstance), [
+        module.createGetLocal(arrayLocal.index, nativeIterableType), // this
+        module.createGetLocal(indexLocal.index, NativeType.I32)
+      ]);
+      incrExpr = module.createSetLocal(indexLocal.index,
+        module.createBinary(BinaryOp.AddI32,
+          module.createGetLocal(indexLocal.index, NativeType.I32),
+          module.createI32(1)
+        )
+      );
+    } else {
+      let iteratorType = assert(iteratorInstance).signature.returnType;
+      let nativeIteratorType = iteratorType.toNativeType();
+      let iteratorLocal = currentFunction.getTempLocal(iteratorType, false);
+      tempLocals.push(iteratorLocal);
+      breakBlock.push(
+        module.createSetLocal(iteratorLocal.index,
+          this.makeCallDirect(assert(iteratorInstance), [ iterableExpr ])
+        )
+      );
+      doneExpr = this.makeCallDirect(assert(doneInstance), [
+        module.createGetLocal(iteratorLocal.index, nativeIteratorType)
+      ]);
+      valueExpr = this.makeCallDirect(assert(nextInstance), [
+        module.createGetLocal(iteratorLocal.index, nativeIteratorType)
+      ]);
+    }
+    if (type != valueType) {
+      valueExpr = this.convertExpression(
+        valueExpr,
+        valueType,
+        type,
+        ConversionKind.IMPLICIT,
+        WrapMode.NONE,
+        declaration
+      );
+    }
+
+    // Declare the variable and assign each value
+    var name = declaration.name.text;
+    var local: Local;
+    if (
+      declaration.isAny(CommonFlags.LET | CommonFlags.CONST) ||
+      flow.is(FlowFlags.INLINE_CONTEXT)
+    ) {
+      local = flow.addScopedLocal(type, name, false, declaration); // reports
+    } else {
+      local = currentFunction.addLocal(type, name, declaration); // reports
+    }
+    if (local.type.is(TypeFlags.SHORT | TypeFlags.INTEGER)) {
+      flow.setLocalWrapped(local.index, !flow.canOverflow(valueExpr, type));
+    }
+    var assignExpr = this.compileAssignmentWithValue(declaration.name, valueExpr);
+    if (local.bindingEnvLocal) { // each iteration declares a new binding
+      assignExpr = module.createBlock(null, [
+        this.makeBindingEnv(flow, local, declaration),
+        assignExpr
+      ], NativeType.None);
+    }
+    var bodyStatement = statement.statement;
+    var bodyExpr = bodyStatement.kind == NodeKind.BLOCK && (<BlockStatement>bodyStatement).statements.length == 1
+      ? this.compileStatement((<BlockStatement>bodyStatement).statements[0])
+      : this.compileStatement(bodyStatement);
+    for (let i = 0, k = tempLocals.length; i < k; ++i) {
+      currentFunction.freeTempLocal(tempLocals[i]);
+    }
+
+    // Switch back to the parent flow
+    currentFunction.flow = flow.free();
+    currentFunction.leaveBreakContext();
+    var usesContinue = flow.isAny(FlowFlags.CONTINUES | FlowFlags.CONDITIONALLY_CONTINUES);
+    flow.unset(
+      FlowFlags.BREAKS |
+      FlowFlags.CONDITIONALLY_BREAKS |
+      FlowFlags.CONTINUES |
+      FlowFlags.CONDITIONALLY_CONTINUES
+    );
+    parentFlow.inheritConditional(flow); // there might not be any values
+
+    var repeatBlock = new Array<ExpressionRef>(); // block repeating the loop
+    repeatBlock.push(module.createBreak(breakLabel, doneExpr));
+    if (usesContinue) {
+      repeatBlock.push(
+        module.createBlock(continueLabel, [ // inner 'continue' block
+          assignExpr,
+          bodyExpr
+        ], NativeType.None)
+      );
+    } else { // can omit the 'continue' block
+      repeatBlock.push(assignExpr);
+      repeatBlock.push(bodyExpr);
+    }
     if (incrExpr) repeatBlock.push(incrExpr);
     repeatBlock.push(
       module.createBreak(repeatLabel)
@@ -1883,26 +2265,147 @@ export class Compiler extends DiagnosticEmitter {
         this.currentType = Type.void;
         return module.createUnreachable();
       }
-      expr = this.compileExpression(
-        statement.value,
-        returnType,
-        ConversionKind.IMPLICIT,
-        currentFunction.is(CommonFlags.MODULE_EXPORT)
-          ? WrapMode.WRAP
-          : WrapMode.NONE
-      );
+      let value = statement.value;
+      if (
+        returnType.tupleTypes &&
+        value.kind == NodeKind.LITERAL &&
+        (<LiteralExpression>value).literalKind == LiteralKind.ARRAY
+      ) {
+        expr = this.compileTupleReturnValue(<ArrayLiteralExpression>value, returnType);
+      } else {
+        expr = this.compileExpression(
+          value,
+          returnType,
+          ConversionKind.IMPLICIT,
+          currentFunction.is(CommonFlags.MODULE_EXPORT)
+            ? WrapMode.WRAP
+            : WrapMode.NONE
+        );
 
-      // Remember whether returning a properly wrapped value
-      if (!flow.canOverflow(expr, returnType)) flow.set(FlowFlags.RETURNS_WRAPPED);
+        // Remember whether returning a properly wrapped value
+        if (!flow.canOverflow(expr, returnType)) flow.set(FlowFlags.RETURNS_WRAPPED);
+      }
     }
 
     // If the last statement anyway, make it the block's return value
     if (isLastStatement(statement)) return expr ? expr : module.createNop();
 
+    return this.makeReturn(expr);
+  }
+
+  /**
+   * Compiles the elements of a tuple to return. Without multi-value, the first element is the
+   * native result while the others are passed in helper globals, to be picked up by a destructuring
+   * assignment.
+   */
+  private compileTupleReturnValue(expression: ArrayLiteralExpression, tupleType: Type): ExpressionRef {
+    var module = this.module;
+
+    // multi-value results cannot be emitted yet
+    if (this.options.hasFeature(Feature.MULTI_VALUE)) {
+      this.error(
+        DiagnosticCode.Operation_not_supported,
+        expression.range
+      );
+      this.currentType = tupleType;
+      return module.createUnreachable();
+    }
+    var tupleTypes = assert(tupleType.tupleTypes);
+    var numElements = tupleTypes.length;
+    var elementExpressions = expression.elementExpressions;
+    var numValues = elementExpressions.length;
+    var currentFunction = this.currentFunction;
+
+    // evaluate all elements first, as evaluating one might return another tuple
+    var exprs = new Array<ExpressionRef>(numValues);
+    var types = new Array<Type>(numValues);
+    for (let i = 0; i < numValues; ++i) {
+      let elementExpression = elementExpressions[i];
+      if (!elementExpression) {
+        this.error(
+          DiagnosticCode.Operation_not_supported,
+          expression.range
+        );
+        return module.createUnreachable();
+      }
+      exprs[i] = i < numElements
+        ? this.compileExpression(elementExpression, tupleTypes[i], ConversionKind.IMPLICIT, WrapMode.NONE)
+        : this.compileExpressionRetainType(elementExpression, Type.void, WrapMode.NONE);
+      types[i] = this.currentType;
+    }
+    if (numValues != numElements) {
+      this.error(
+        DiagnosticCode.Type_0_is_not_assignable_to_type_1,
+        expression.range, "[" + typesToString(types) + "]", tupleType.toString()
+      );
+      return module.createUnreachable();
+    }
+    var stmts = new Array<ExpressionRef>();
+    var temps = new Array<Local>(numElements);
+    for (let i = 0; i < numElements; ++i) {
+      let temp = currentFunction.getTempLocal(tupleTypes[i], false);
+      stmts.push(module.createSetLocal(temp.index, exprs[i]));
+      temps[i] = temp;
+    }
+    for (let i = 1; i < numElements; ++i) {
+      let temp = temps[i];
+      stmts.push(
+        module.createSetGlobal(this.ensureTupleVar(i, tupleTypes[i]),
+          module.createGetLocal(temp.index, tupleTypes[i].toNativeType())
+        )
+      );
+      currentFunction.freeTempLocal(temp);
+    }
+    var nativeType = tupleTypes[0].toNativeType();
+    stmts.push(module.createGetLocal(temps[0].index, nativeType));
+    currentFunction.freeTempLocal(temps[0]);
+    this.currentType = tupleType;
+    return module.createBlock(null, stmts, nativeType);
+  }
+
+  /** Makes a return of the specified value, if any, running pending finally clauses first. */
+  private makeReturn(valueExpr: ExpressionRef): ExpressionRef {
+    var module = this.module;
+    var currentFunction = this.currentFunction;
+    var flow = currentFunction.flow;
+
+    // Within a finally context, remember the value and run the finally clause
+    var finallyContext = flow.finallyContext;
+    if (finallyContext) {
+      let stmts = new Array<ExpressionRef>();
+      if (valueExpr) {
+        let returnLocal = finallyContext.returnLocal;
+        if (!returnLocal) {
+          returnLocal = currentFunction.getTempLocal(flow.returnType, false);
+          finallyContext.returnLocal = returnLocal;
+        }
+        stmts.push(module.createSetLocal(returnLocal.index, valueExpr));
+      }
+      finallyContext.hasReturn = true;
+      stmts.push(module.createSetLocal(finallyContext.stateLocal.index, module.createI32(FinallyState.RETURN)));
+      stmts.push(module.createBreak(finallyContext.label));
+      return module.createBlock(null, stmts);
+    }
+
     // When inlining, break to the end of the inlined function's block (no need to wrap)
     return flow.is(FlowFlags.INLINE_CONTEXT)
-      ? module.createBreak(assert(flow.returnLabel), 0, expr)
-      : module.createReturn(expr);
+      ? module.createBreak(assert(flow.returnLabel), 0, valueExpr)
+      : module.createReturn(valueExpr);
+  }
+
+  /** Makes a break to the specified label, running pending finally clauses first. */
+  private makeBreak(label: string): ExpressionRef {
+    var module = this.module;
+
+    // Breaking out of the try statement runs its finally clause first
+    var finallyContext = this.currentFunction.flow.finallyContext;
+    if (finallyContext && (label == finallyContext.breakLabel || label == finallyContext.continueLabel)) {
+      return module.createBlock(null, [
+        module.createSetLocal(finallyContext.stateLocal.index, module.createI32(finallyContext.getJumpState(label))),
+        module.createBreak(finallyContext.label)
+      ]);
+    }
+    return module.createBreak(label);
   }
 
   compileSwitchStatement(statement: SwitchStatement): ExpressionRef {
@@ -2018,27 +2521,215 @@ export class Compiler extends DiagnosticEmitter {
   }
 
   compileThrowStatement(statement: ThrowStatement): ExpressionRef {
+    var module = this.module;
+    var program = this.program;
     var flow = this.currentFunction.flow;
 
     // Remember that this branch throws
     flow.set(FlowFlags.THROWS);
 
-    // FIXME: without try-catch it is safe to assume RETURNS as well for now
-    flow.set(FlowFlags.RETURNS);
+    // Without try-catch, abort right away
+    var errorInstance = program.errorInstance;
+    if (!(program.hasExceptionHandling && errorInstance)) {
+      flow.set(FlowFlags.RETURNS);
+      return compileAbort(this, null, statement);
+    }
 
-    // TODO: requires exception-handling spec.
-    return compileAbort(this, null, statement);
+    // Otherwise make the exception pending and propagate it to the innermost handler. If there is
+    // none, the exception leaves the function.
+    if (!flow.catchLabel) flow.set(FlowFlags.RETURNS);
+    var valueExpr = this.compileExpression(statement.value, errorInstance.type, ConversionKind.IMPLICIT, WrapMode.NONE);
+    return module.createBlock(null, [
+      module.createSetGlobal(this.ensureExceptionVar(), valueExpr),
+      this.makeRethrow()
+    ]);
   }
 
   compileTryStatement(statement: TryStatement): ExpressionRef {
-    // TODO
-    // can't yet support something like: try { return ... } finally { ... }
-    // worthwhile to investigate lowering returns to block results (here)?
-    this.error(
-      DiagnosticCode.Operation_not_supported,
-      statement.range
-    );
-    return this.module.createUnreachable();
+    var module = this.module;
+    var program = this.program;
+
+    // native exception handling cannot be emitted yet
+    if (this.options.hasFeature(Feature.EXCEPTION_HANDLING)) {
+      this.error(
+        DiagnosticCode.Operation_not_supported,
+        statement.range
+      );
+      return module.createUnreachable();
+    }
+    var errorInstance = program.errorInstance;
+    if (!errorInstance) {
+      this.error(
+        DiagnosticCode.Cannot_find_name_0,
+        statement.range, "Error"
+      );
+      return module.createUnreachable();
+    }
+
+    // Exceptions are lowered to a pending exception global that is checked after calls, with try,
+    // catch and finally blocks being labeled blocks that pending exceptions break to:
+    //
+    // (block $try|N                     (block $finally|N
+    //   (block $catch|N                   (block $uncaught|N
+    //     try (br $try|N)                   [ (block $catch|N try (br $finally|N)) ]
+    //   )                                   try or catch (br $finally|N)
+    //   catch                             ) state = THROW
+    // )                                 ) finally, then dispatch on state
+    var currentFunction = this.currentFunction;
+    var parentFlow = currentFunction.flow;
+    var label = currentFunction.enterBreakContext();
+    var catchLabel = "catch|" + label;
+    var catchStatements = statement.catchStatements;
+    var finallyStatements = statement.finallyStatements;
+    var exceptionVar = this.ensureExceptionVar();
+    var usizeType = this.options.usizeType;
+    var nativeSizeType = usizeType.toNativeType();
+
+    var finallyContext: FinallyContext | null = null;
+    var uncaughtLabel = "uncaught|" + label;
+    var exitLabel = "try|" + label;
+    if (finallyStatements) {
+      exitLabel = "finally|" + label;
+      finallyContext = new FinallyContext(exitLabel, currentFunction.getTempLocal(Type.i32, false), parentFlow);
+    }
+
+    // Compile the try block
+    var tryFlow = parentFlow.fork();
+    tryFlow.catchLabel = catchStatements ? catchLabel : uncaughtLabel;
+    tryFlow.finallyContext = finallyContext;
+    currentFunction.flow = tryFlow;
+    var stmts = this.compileStatements(statement.statements);
+    if (!tryFlow.isAny(FlowFlags.ANY_TERMINATING)) stmts.push(module.createBreak(exitLabel));
+    currentFunction.flow = tryFlow.free();
+
+    // Compile the catch block, if any, taking over the pending exception
+    var catchFlow: Flow | null = null;
+    if (catchStatements) {
+      stmts = [
+        module.createBlock(catchLabel, stmts)
+      ];
+      catchFlow = parentFlow.fork();
+      if (finallyContext) {
+        catchFlow.catchLabel = uncaughtLabel;
+        catchFlow.finallyContext = finallyContext;
+      }
+      currentFunction.flow = catchFlow;
+      let catchLocal = catchFlow.addScopedLocal(
+        errorInstance.type,
+        assert(statement.catchVariable).text,
+        false
+      );
+      stmts.push(
+        module.createSetLocal(catchLocal.index, module.createGetGlobal(exceptionVar, nativeSizeType))
+      );
+      stmts.push(
+        module.createSetGlobal(exceptionVar, usizeType.toNativeZero(module))
+      );
+      let catchStmts = this.compileStatements(catchStatements);
+      for (let i = 0, k = catchStmts.length; i < k; ++i) stmts.push(catchStmts[i]);
+      if (finallyContext && !catchFlow.isAny(FlowFlags.ANY_TERMINATING)) {
+        stmts.push(module.createBreak(exitLabel));
+      }
+      currentFunction.flow = catchFlow.free();
+    }
+
+    // Without a finally block, we are done
+    if (!finallyContext) {
+      this.inheritTryFlows(parentFlow, tryFlow, catchFlow);
+      currentFunction.leaveBreakContext();
+      return module.createBlock(exitLabel, stmts);
+    }
+
+    // Otherwise remember a pending exception and run the finally block
+    var stateLocal = finallyContext.stateLocal;
+    var thrownLocal = currentFunction.getTempLocal(usizeType, false);
+    stmts = [
+      module.createSetLocal(stateLocal.index, module.createI32(FinallyState.NORMAL)),
+      module.createBlock(exitLabel, [
+        module.createBlock(uncaughtLabel, stmts),
+        module.createSetLocal(thrownLocal.index, module.createGetGlobal(exceptionVar, nativeSizeType)),
+        module.createSetGlobal(exceptionVar, usizeType.toNativeZero(module)),
+        module.createSetLocal(stateLocal.index, module.createI32(FinallyState.THROW))
+      ])
+    ];
+    var finallyFlow = parentFlow.fork();
+    currentFunction.flow = finallyFlow;
+    var finallyStmts = this.compileStatements(<Statement[]>finallyStatements);
+    for (let i = 0, k = finallyStmts.length; i < k; ++i) stmts.push(finallyStmts[i]);
+    currentFunction.flow = finallyFlow.free();
+
+    // If the finally block completes normally, continue with what has been pending
+    this.inheritTryFlows(parentFlow, tryFlow, catchFlow);
+    if (finallyFlow.isAny(FlowFlags.ANY_TERMINATING)) {
+      parentFlow.inherit(finallyFlow);
+    } else {
+      parentFlow.set(finallyFlow.flags & FlowFlags.ANY_CONDITIONAL);
+      stmts.push(
+        module.createIf(
+          module.createBinary(BinaryOp.EqI32,
+            module.createGetLocal(stateLocal.index, NativeType.I32),
+            module.createI32(FinallyState.THROW)
+          ),
+          module.createBlock(null, [
+            module.createSetGlobal(exceptionVar, module.createGetLocal(thrownLocal.index, nativeSizeType)),
+            this.makeRethrow()
+          ])
+        )
+      );
+      if (finallyContext.hasReturn) {
+        let returnLocal = finallyContext.returnLocal;
+        stmts.push(
+          module.createIf(
+            module.createBinary(BinaryOp.EqI32,
+              module.createGetLocal(stateLocal.index, NativeType.I32),
+              module.createI32(FinallyState.RETURN)
+            ),
+            this.makeReturn(
+              returnLocal
+                ? module.createGetLocal(returnLocal.index, returnLocal.type.toNativeType())
+                : 0
+            )
+          )
+        );
+      }
+      let jumpLabels = finallyContext.jumpLabels;
+      for (let i = 0, k = jumpLabels.length; i < k; ++i) {
+        stmts.push(
+          module.createIf(
+            module.createBinary(BinaryOp.EqI32,
+              module.createGetLocal(stateLocal.index, NativeType.I32),
+              module.createI32(FinallyState.JUMP + i)
+            ),
+            this.makeBreak(jumpLabels[i])
+          )
+        );
+      }
+    }
+    if (parentFlow.is(FlowFlags.THROWS) && !parentFlow.catchLabel) parentFlow.set(FlowFlags.RETURNS);
+
+    var returnLocal = finallyContext.returnLocal;
+    if (returnLocal) currentFunction.freeTempLocal(returnLocal);
+    currentFunction.freeTempLocal(thrownLocal);
+    currentFunction.freeTempLocal(stateLocal);
+    currentFunction.leaveBreakContext();
+    return module.createBlock(null, stmts);
+  }
+
+  /** Inherits the flags of a try statement's try and catch blocks. */
+  private inheritTryFlows(parentFlow: Flow, tryFlow: Flow, catchFlow: Flow | null): void {
+    if (catchFlow) {
+      // exceptions thrown in the try block are handled by the catch block
+      if (tryFlow.is(FlowFlags.THROWS)) {
+        parentFlow.inherit(catchFlow);
+      } else {
+        tryFlow.unset(FlowFlags.CONDITIONALLY_THROWS);
+        parentFlow.inheritMutual(tryFlow, catchFlow);
+      }
+    } else {
+      parentFlow.inherit(tryFlow);
+    }
+    // an exception not handled within the function leaves it (see makeRethrow)
+    if (parentFlow.is(FlowFlags.THROWS) && !parentFlow.catchLabel) parentFlow.set(FlowFlags.RETURNS);
   }
 
   /**
@@ -2181,6 +2872,7 @@ export class Compiler extends DiagnosticEmitter {
           flow.is(FlowFlags.INLINE_CONTEXT)
         ) { // here: not top-level
           local = flow.addScopedLocal(type, name, false, declaration); // reports
+          if (local.bindingEnvLocal) initializers.push(this.makeBindingEnv(flow, local, declaration));
         } else {
           local = currentFunction.addLocal(type, name, declaration); // reports
         }
@@ -2456,9 +3148,17 @@ export class Compiler extends DiagnosticEmitter {
     }
 
     var currentType = this.currentType;
-    if (conversionKind != ConversionKind.NONE && currentType != contextualType) {
-      expr = this.convertExpression(expr, currentType, contextualType, conversionKind, wrapMode, expression);
-      this.currentType = contextualType;
+    if (currentType.tupleTypes && !contextualType.tupleTypes && contextualType != Type.void) {
+      this.error(
+        DiagnosticCode.A_value_of_tuple_type_0_must_be_destructured,
+        expression.range, currentType.toString()
+      );
+      this.currentType = contextualType;
+      return this.module.createUnreachable();
+    }
+    if (conversionKind != ConversionKind.NONE && currentType != contextualType) {
+      expr = this.convertExpression(expr, currentType, contextualType, conversionKind, wrapMode, expression);
+      this.currentType = contextualType;
     } else if (wrapMode == WrapMode.WRAP) {
       expr = this.ensureSmallIntegerWrap(expr, currentType);
     }
@@ -2517,6 +3217,18 @@ export class Compiler extends DiagnosticEmitter {
     // any to void
     if (toType.kind == TypeKind.VOID) return module.createDrop(expr);
 
+    // tuple to tuple, which is natively represented by its first element
+    if (fromType.tupleTypes || toType.tupleTypes) {
+      if (!fromType.isAssignableTo(toType)) {
+        this.error(
+          DiagnosticCode.Type_0_is_not_assignable_to_type_1,
+          reportNode.range, fromType.toString(), toType.toString()
+        );
+        return module.createUnreachable();
+      }
+      return expr;
+    }
+
     if (!fromType.isAssignableTo(toType)) {
       if (conversionKind == ConversionKind.IMPLICIT) {
         this.error(
@@ -2678,6 +3390,8 @@ export class Compiler extends DiagnosticEmitter {
   private f64ModInstance: Function | null = null;
   private f32PowInstance: Function | null = null;
   private f64PowInstance: Function | null = null;
+  private itoaPrototype: FunctionPrototype | null = null;
+  private dtoaPrototype: FunctionPrototype | null = null;
 
   compileBinaryExpression(
     expression: BinaryExpression,
@@ -3318,6 +4032,27 @@ export class Compiler extends DiagnosticEmitter {
           if (classReference) {
             let overload = classReference.lookupOverload(OperatorKind.ADD);
             if (overload) {
+
+              // concatenate strings with basic values converted to strings
+              if (classReference == this.program.stringInstance) {
+                rightExpr = this.compileExpressionRetainType(right, leftType, WrapMode.NONE);
+                rightType = this.currentType;
+                if (rightType.is(TypeFlags.REFERENCE)) {
+                  rightExpr = this.convertExpression(
+                    rightExpr,
+                    rightType,
+                    leftType,
+                    ConversionKind.IMPLICIT,
+                    WrapMode.NONE,
+                    right
+                  );
+                } else {
+                  rightExpr = this.makeBasicToString(rightExpr, rightType, right);
+                }
+                expr = this.makeCallDirect(overload, [ leftExpr, rightExpr ]);
+                break;
+              }
+
               expr = this.compileBinaryOverload(overload, left, leftExpr, right, expression);
               break;
             }
@@ -3334,6 +4069,16 @@ export class Compiler extends DiagnosticEmitter {
         } else {
           rightExpr = this.compileExpressionRetainType(right, leftType, WrapMode.NONE);
           rightType = this.currentType;
+
+          // concatenate basic values converted to strings with strings
+          let stringInstance = this.program.stringInstance;
+          if (stringInstance && rightType.classReference == stringInstance) {
+            let overload = assert(stringInstance.lookupOverload(OperatorKind.ADD));
+            leftExpr = this.makeBasicToString(leftExpr, leftType, left);
+            expr = this.makeCallDirect(overload, [ leftExpr, rightExpr ]);
+            break;
+          }
+
           if (commonType = Type.commonCompatible(leftType, rightType, false)) {
             leftExpr = this.convertExpression(
               leftExpr,
@@ -4633,41 +5378,59 @@ export class Compiler extends DiagnosticEmitter {
   }
 
   compileAssignment(expression: Expression, valueExpression: Expression, contextualType: Type): ExpressionRef {
+    if (
+      expression.kind == NodeKind.LITERAL &&
+      (<LiteralExpression>expression).literalKind == LiteralKind.ARRAY
+    ) {
+      return this.compileDestructuringAssignment(<ArrayLiteralExpression>expression, valueExpression);
+    }
+
+    // to compile just the value, we need to know the target's type
+    var targetType = this.resolveAssignmentTargetType(expression); // reports
+    if (!targetType) return this.module.createUnreachable();
+
+    // compile the value and do the assignment
+    assert(targetType != Type.void);
+    var valueExpr = this.compileExpression(valueExpression, targetType, ConversionKind.IMPLICIT, WrapMode.NONE);
+    return this.compileAssignmentWithValue(
+      expression,
+      valueExpr,
+      contextualType != Type.void
+    );
+  }
+
+  /** Resolves the type of a value assigned to the specified target expression. */
+  private resolveAssignmentTargetType(expression: Expression): Type | null {
     var program = this.program;
     var resolver = program.resolver;
     var currentFunction = this.currentFunction;
     var target = resolver.resolveExpression(expression, currentFunction); // reports
-    if (!target) return this.module.createUnreachable();
-
-    // to compile just the value, we need to know the target's type
-    var targetType: Type;
+    if (!target) return null;
     switch (target.kind) {
       case ElementKind.GLOBAL: {
         if (!this.compileGlobal(<Global>target)) { // reports; not yet compiled if a static field compiled as a global
-          return this.module.createUnreachable();
+          return null;
         }
         assert((<Global>target).type != Type.void); // compileGlobal must guarantee this
         // fall-through
       }
       case ElementKind.LOCAL:
       case ElementKind.FIELD: {
-        targetType = (<VariableLikeElement>target).type;
-        break;
+        return (<VariableLikeElement>target).type;
       }
       case ElementKind.PROPERTY: {
         let setterPrototype = (<Property>target).setterPrototype;
         if (setterPrototype) {
           let instance = this.resolver.resolveFunction(setterPrototype, null);
-          if (!instance) return this.module.createUnreachable();
+          if (!instance) return null;
           assert(instance.signature.parameterTypes.length == 1); // parser must guarantee this
-          targetType = instance.signature.parameterTypes[0];
-          break;
+          return instance.signature.parameterTypes[0];
         }
         this.error(
           DiagnosticCode.Cannot_assign_to_0_because_it_is_a_constant_or_a_read_only_property,
           expression.range, (<Property>target).internalName
         );
-        return this.module.createUnreachable();
+        return null;
       }
       case ElementKind.CLASS: {
         if (resolver.currentElementExpression) { // indexed access
@@ -4686,11 +5449,10 @@ export class Compiler extends DiagnosticEmitter {
                 expression.range, (<Class>target).internalName
               );
             }
-            return this.module.createUnreachable();
+            return null;
           }
           assert(indexedSet.signature.parameterTypes.length == 2); // parser must guarantee this
-          targetType = indexedSet.signature.parameterTypes[1];    // 2nd parameter is the element
-          break;
+          return indexedSet.signature.parameterTypes[1];    // 2nd parameter is the element
         }
         // fall-through
       }
@@ -4699,18 +5461,86 @@ export class Compiler extends DiagnosticEmitter {
           DiagnosticCode.Operation_not_supported,
           expression.range
         );
-        return this.module.createUnreachable();
+        return null;
       }
     }
+  }
 
-    // compile the value and do the assignment
-    assert(targetType != Type.void);
-    var valueExpr = this.compileExpression(valueExpression, targetType, ConversionKind.IMPLICIT, WrapMode.NONE);
-    return this.compileAssignmentWithValue(
-      expression,
-      valueExpr,
-      contextualType != Type.void
-    );
+  /** Compiles a destructuring assignment of a tuple returned by a call, i.e. `[a, b] = f()`. */
+  compileDestructuringAssignment(expression: ArrayLiteralExpression, valueExpression: Expression): ExpressionRef {
+    var module = this.module;
+    var currentFunction = this.currentFunction;
+    var valueExpr = this.compileExpression(valueExpression, Type.void, ConversionKind.NONE, WrapMode.NONE);
+    var valueType = this.currentType;
+    this.currentType = Type.void;
+    var tupleTypes = valueType.tupleTypes;
+    if (!tupleTypes) {
+      this.error(
+        DiagnosticCode.Type_0_is_not_an_array_type,
+        valueExpression.range, valueType.toString()
+      );
+      return module.createUnreachable();
+    }
+    var numElements = tupleTypes.length;
+    var targetExpressions = expression.elementExpressions;
+    var numTargets = targetExpressions.length;
+    if (numTargets > numElements) {
+      this.error(
+        DiagnosticCode.Tuple_type_0_of_length_1_has_no_element_at_index_2,
+        expression.range, valueType.toString(), numElements.toString(10), numElements.toString(10)
+      );
+      return module.createUnreachable();
+    }
+
+    // multi-value results cannot be picked up yet
+    if (this.options.hasFeature(Feature.MULTI_VALUE)) {
+      this.error(
+        DiagnosticCode.Operation_not_supported,
+        expression.range
+      );
+      return module.createUnreachable();
+    }
+
+    // pick up all elements first, as assigning one might call another function returning a tuple
+    var stmts = new Array<ExpressionRef>();
+    var temps = new Array<Local>(numTargets);
+    for (let i = 0; i < numTargets; ++i) {
+      let temp = currentFunction.getTempLocal(tupleTypes[i], false);
+      stmts.push(
+        module.createSetLocal(temp.index, i == 0
+          ? valueExpr
+          : module.createGetGlobal(this.ensureTupleVar(i, tupleTypes[i]), tupleTypes[i].toNativeType())
+        )
+      );
+      temps[i] = temp;
+    }
+    if (!numTargets) stmts.push(module.createDrop(valueExpr));
+    for (let i = 0; i < numTargets; ++i) {
+      let temp = temps[i];
+      let targetExpression = targetExpressions[i];
+      if (targetExpression) { // otherwise omitted
+        let elementType = tupleTypes[i];
+        let targetType = this.resolveAssignmentTargetType(targetExpression); // reports
+        if (!targetType) {
+          stmts.push(module.createUnreachable());
+        } else {
+          let elementExpr = module.createGetLocal(temp.index, elementType.toNativeType());
+          if (elementType != targetType) {
+            elementExpr = this.convertExpression(
+              elementExpr,
+              elementType, targetType,
+              ConversionKind.IMPLICIT,
+              WrapMode.NONE,
+              targetExpression
+            );
+          }
+          stmts.push(this.compileAssignmentWithValue(targetExpression, elementExpr, false));
+        }
+      }
+      currentFunction.freeTempLocal(temp);
+    }
+    this.currentType = Type.void;
+    return module.createBlock(null, stmts, NativeType.None);
   }
 
   compileAssignmentWithValue(
@@ -4734,6 +5564,7 @@ export class Compiler extends DiagnosticEmitter {
           );
           return module.createUnreachable();
         }
+        if ((<Local>target).envOffset >= 0) return this.makeCapturedSet(<Local>target, valueWithCorrectType, tee);
         let flow = this.currentFunction.flow;
         if (type.is(TypeFlags.SHORT | TypeFlags.INTEGER)) {
           flow.setLocalWrapped((<Local>target).index, !flow.canOverflow(valueWithCorrectType, type));
@@ -4796,6 +5627,29 @@ export class Compiler extends DiagnosticEmitter {
           // make sure bools are wrapped (usually are) when storing as 8 bits
           valueWithCorrectType = this.ensureSmallIntegerWrap(valueWithCorrectType, type);
         }
+        if (assert((<Field>target).parent).kind == ElementKind.INTERFACE) {
+          // store through the setter dispatching on the runtime class
+          this.ensureVirtualField(<Field>target);
+          let setterName = (<Field>target).internalName + "|set";
+          if (tee) {
+            let tempLocal = this.currentFunction.getAndFreeTempLocal(type, false);
+            let tempLocalIndex = tempLocal.index;
+            return module.createBlock(null, [
+              this.makeVirtualFieldAccess(
+                module.createCall(setterName, [
+                  thisExpr,
+                  module.createTeeLocal(tempLocalIndex, valueWithCorrectType)
+                ], NativeType.None),
+                Type.void
+              ),
+              module.createGetLocal(tempLocalIndex, nativeType)
+            ], nativeType);
+          }
+          return this.makeVirtualFieldAccess(
+            module.createCall(setterName, [ thisExpr, valueWithCorrectType ], NativeType.None),
+            Type.void
+          );
+        }
         if (tee) {
           let currentFunction = this.currentFunction;
           let flow = currentFunction.flow;
@@ -4843,6 +5697,7 @@ export class Compiler extends DiagnosticEmitter {
                 this.options.usizeType,
                 WrapMode.NONE
               );
+              setterInstance = this.resolveVirtual(setterInstance, thisExpression, this.currentType);
               return this.makeCallDirect(setterInstance, [ thisExpr, valueWithCorrectType ]);
             } else {
               return this.makeCallDirect(setterInstance, [ valueWithCorrectType ]);
@@ -4863,6 +5718,8 @@ export class Compiler extends DiagnosticEmitter {
               this.options.usizeType,
               WrapMode.NONE
             );
+            setterInstance = this.resolveVirtual(setterInstance, thisExpression, this.currentType);
+            getterInstance = this.resolveVirtual(getterInstance, thisExpression, this.currentType);
             let tempLocal = this.currentFunction.getAndFreeTempLocal(returnType, false);
             let tempLocalIndex = tempLocal.index;
             return module.createBlock(null, [
@@ -5087,11 +5944,23 @@ export class Compiler extends DiagnosticEmitter {
         // compile 'this' expression if an instance method
         let thisExpr: ExpressionRef = 0;
         if (instance.is(CommonFlags.INSTANCE)) {
-          thisExpr = this.compileExpressionRetainType(
-            assert(this.resolver.currentThisExpression),
-            this.options.usizeType,
-            WrapMode.NONE
-          );
+          let thisExpression = assert(this.resolver.currentThisExpression);
+          let thisType = assert(instance.signature.thisType);
+          if (thisType.is(TypeFlags.REFERENCE)) {
+            thisExpr = this.compileExpressionRetainType(
+              thisExpression,
+              this.options.usizeType,
+              WrapMode.NONE
+            );
+            instance = this.resolveVirtual(instance, thisExpression, this.currentType);
+          } else { // method of a wrapper class
+            thisExpr = this.compileExpression(
+              thisExpression,
+              thisType,
+              ConversionKind.IMPLICIT,
+              WrapMode.NONE
+            );
+          }
         }
 
         return this.compileCallDirect(
@@ -5108,6 +5977,8 @@ export class Compiler extends DiagnosticEmitter {
         if (signature = (<Local>target).type.signatureReference) {
           if ((<Local>target).is(CommonFlags.INLINED)) {
             indexArg = module.createI32(i64_low((<Local>target).constantIntegerValue));
+          } else if ((<Local>target).envOffset >= 0) {
+            indexArg = this.makeCapturedGet(<Local>target);
           } else {
             indexArg = module.createGetLocal((<Local>target).index, NativeType.I32);
           }
@@ -5264,16 +6135,7 @@ export class Compiler extends DiagnosticEmitter {
       return false;
     }
 
-    // not yet implemented (TODO: maybe some sort of an unmanaged/lightweight array?)
     var hasRest = signature.hasRest;
-    if (hasRest) {
-      this.error(
-        DiagnosticCode.Operation_not_supported,
-        reportNode.range
-      );
-      return false;
-    }
-
     var minimum = signature.requiredParameters;
     var maximum = signature.parameterTypes.length;
 
@@ -5300,6 +6162,74 @@ export class Compiler extends DiagnosticEmitter {
     return true;
   }
 
+  /** Expands spread arguments and collects the arguments of a rest parameter into an array literal. */
+  private expandArguments(
+    signature: Signature,
+    argumentExpressions: Expression[],
+    reportNode: Node
+  ): Expression[] | null {
+    var expressions = this.expandSpreadLiterals(argumentExpressions);
+    var numExpressions = expressions.length;
+    var hasRest = signature.hasRest;
+    var restIndex = hasRest ? signature.parameterTypes.length - 1 : numExpressions;
+
+    // spreads of unknown arity can only be passed to a rest parameter
+    for (let i = 0, k = min(restIndex, numExpressions); i < k; ++i) {
+      let expression = expressions[i];
+      if (!expression) {
+        this.error(
+          DiagnosticCode.Operation_not_supported,
+          reportNode.range
+        );
+        return null;
+      }
+      if (expression.kind == NodeKind.SPREAD) {
+        this.error(
+          DiagnosticCode.A_spread_argument_must_either_have_a_tuple_type_or_be_passed_to_a_rest_parameter,
+          expression.range
+        );
+        return null;
+      }
+    }
+    if (!hasRest || numExpressions < restIndex) return <Expression[]>expressions;
+
+    // otherwise materialize the remaining arguments as an array, without reparenting them
+    var restExpressions = expressions.slice(restIndex);
+    var restArray = new ArrayLiteralExpression();
+    restArray.range = numExpressions > restIndex
+      ? Range.join(
+          (<Expression>expressions[restIndex]).range,
+          (<Expression>expressions[numExpressions - 1]).range
+        )
+      : reportNode.range;
+    restArray.elementExpressions = restExpressions;
+    var expanded = <Expression[]>expressions.slice(0, restIndex);
+    expanded.push(restArray);
+    return expanded;
+  }
+
+  /** Expands spread array literals, which have a statically known arity, into their elements. */
+  private expandSpreadLiterals(expressions: (Expression | null)[]): (Expression | null)[] {
+    var expanded: (Expression | null)[] | null = null;
+    for (let i = 0, k = expressions.length; i < k; ++i) {
+      let expression = expressions[i];
+      if (expression && expression.kind == NodeKind.SPREAD) {
+        let spreadExpression = (<SpreadExpression>expression).expression;
+        if (
+          spreadExpression.kind == NodeKind.LITERAL &&
+          (<LiteralExpression>spreadExpression).literalKind == LiteralKind.ARRAY
+        ) {
+          if (!expanded) expanded = expressions.slice(0, i);
+          let elements = this.expandSpreadLiterals((<ArrayLiteralExpression>spreadExpression).elementExpressions);
+          for (let j = 0, l = elements.length; j < l; ++j) expanded.push(elements[j]);
+          continue;
+        }
+      }
+      if (expanded) expanded.push(expression);
+    }
+    return expanded ? expanded : expressions;
+  }
+
   /** Compiles a direct call to a concrete function. */
   compileCallDirect(
     instance: Function,
@@ -5308,8 +6238,11 @@ export class Compiler extends DiagnosticEmitter {
     thisArg: ExpressionRef = 0,
     inline: bool = false
   ): ExpressionRef {
-    var numArguments = argumentExpressions.length;
     var signature = instance.signature;
+    var expandedArguments = this.expandArguments(signature, argumentExpressions, reportNode);
+    if (!expandedArguments) return this.module.createUnreachable();
+    argumentExpressions = expandedArguments;
+    var numArguments = argumentExpressions.length;
 
     if (!this.checkCallSignature( // reports
       signature,
@@ -5379,6 +6312,8 @@ export class Compiler extends DiagnosticEmitter {
     flow.returnLabel = returnLabel;
     flow.returnType = returnType;
     flow.contextualTypeArguments = instance.contextualTypeArguments;
+    flow.catchLabel = previousFlow.catchLabel; // exceptions propagate as if not inlined
+    if (previousFlow.is(FlowFlags.UNCHECKED_CONTEXT)) flow.set(FlowFlags.UNCHECKED_CONTEXT);
 
     // Convert provided call arguments to temporary locals. It is important that these are compiled
     // here, with their respective locals being blocked. There is no 'makeCallInline'.
@@ -5431,7 +6366,7 @@ export class Compiler extends DiagnosticEmitter {
     var numParameters = signature.parameterTypes.length;
     for (let i = numArguments; i < numParameters; ++i) {
       let initExpr = this.compileExpression(
-        assert(declaration.signature.parameters[i].initializer),
+        this.getParameterInitializer(declaration.signature.parameters[i]),
         parameterTypes[i],
         ConversionKind.IMPLICIT,
         WrapMode.WRAP
@@ -5486,6 +6421,14 @@ export class Compiler extends DiagnosticEmitter {
     return module.createBlock(returnLabel, body, returnType.toNativeType());
   }
 
+  /** Gets the initializer of an omitted parameter. Omitted rest parameters are empty arrays. */
+  private getParameterInitializer(declaration: ParameterNode): Expression {
+    if (declaration.parameterKind == ParameterKind.REST) {
+      return Node.createArrayLiteralExpression([], declaration.range);
+    }
+    return assert(declaration.initializer);
+  }
+
   /** Gets the trampoline for the specified function. */
   ensureTrampoline(original: Function): Function {
     // A trampoline is a function that takes a fixed amount of operands with some of them possibly
@@ -5523,7 +6466,7 @@ export class Compiler extends DiagnosticEmitter {
     // forward `this` if applicable
     var module = this.module;
     if (isInstance) {
-      forwardedOperands[0] = module.createGetLocal(0, this.options.nativeSizeType);
+      forwardedOperands[0] = module.createGetLocal(0, assert(commonThisType).toNativeType());
       operandIndex = 1;
     }
 
@@ -5578,7 +6521,9 @@ export class Compiler extends DiagnosticEmitter {
     for (let i = 0; i < numOptional; ++i, ++operandIndex) {
       let type = originalParameterTypes[minArguments + i];
       let declaration = originalParameterDeclarations[minArguments + i];
-      let initializer = declaration.initializer;
+      let initializer = declaration.parameterKind == ParameterKind.REST
+        ? this.getParameterInitializer(declaration)
+        : declaration.initializer;
       let initExpr: ExpressionRef;
       if (initializer) {
         initExpr = module.createSetLocal(operandIndex,
@@ -5626,61 +6571,1104 @@ export class Compiler extends DiagnosticEmitter {
     return trampoline;
   }
 
-  /** Makes sure that the argument count helper global is present and returns its name. */
-  private ensureArgcVar(): string {
-    var internalName = "~argc";
-    if (!this.argcVar) {
-      let module = this.module;
-      this.argcVar = module.addGlobal(
-        internalName,
-        NativeType.I32,
-        true,
-        module.createI32(0)
+  /** Resolves the function to call for the specified instance method on the given `this` expression. */
+  private resolveVirtual(instance: Function, thisExpression: Expression, thisType: Type): Function {
+    if (
+      !instance.is(CommonFlags.VIRTUAL) ||
+      instance.is(CommonFlags.GENERIC) ||
+      thisExpression.kind == NodeKind.SUPER
+    ) return instance;
+    var classReference = thisType.classReference;
+    if (classReference && classReference.hasDecorator(DecoratorFlags.SEALED)) return instance;
+    return this.ensureVirtualStub(instance);
+  }
+
+  /** Makes sure that a stub dispatching calls to the specified virtual method exists. */
+  ensureVirtualStub(original: Function): Function {
+    // A virtual stub takes the same operands as the original method and calls the override matching
+    // the runtime class of `this`, or the original method if not overridden. Its body is generated
+    // once all classes are known, that is after the entry files have been compiled.
+    var stub = original.virtualStub;
+    if (stub) return stub;
+    stub = new Function(
+      original.prototype,
+      original.internalName + "|virtual",
+      original.signature,
+      original.parent,
+      original.contextualTypeArguments
+    );
+    stub.set(original.flags | CommonFlags.COMPILED);
+    stub.decoratorFlags = original.decoratorFlags & ~DecoratorFlags.INLINE;
+    original.virtualStub = stub;
+    this.program.instancesLookup.set(stub.internalName, stub); // so canOverflow can find it
+    this.virtualMethods.push(original);
+    return stub;
+  }
+
+  /** Makes sure that accessors dispatching to the implementations of the specified interface field exist. */
+  private ensureVirtualField(field: Field): void {
+    // Accessing a field through an interface calls the getter `Interface#field|get` respectively the
+    // setter `Interface#field|set`, which load or store the field at the offset of the runtime class,
+    // or call its getter or setter. Like virtual stubs, these are generated once all classes are known.
+    var virtualFields = this.virtualFields;
+    if (!virtualFields.includes(field)) virtualFields.push(field);
+  }
+
+  /** Makes a call to an interface field accessor, checking for exceptions thrown by a class's accessor. */
+  private makeVirtualFieldAccess(call: ExpressionRef, returnType: Type): ExpressionRef {
+    // the accessors are generated last, so whether they may throw is not known yet
+    if (this.program.hasExceptionHandling) call = this.makeExceptionCheck(call, returnType);
+    return call;
+  }
+
+  /** Compiles the stubs of all virtual methods, including their overrides, and interface field accessors. */
+  private compileVirtualStubs(): void {
+    var program = this.program;
+    var virtualMethods = this.virtualMethods;
+    var virtualFields = this.virtualFields;
+
+    // compiling overrides might reveal additional classes and virtual methods, so repeat until settled
+    var numInstances: i32;
+    var numVirtualMethods: i32;
+    var numVirtualFields: i32;
+    do {
+      numInstances = program.instancesLookup.size;
+      numVirtualMethods = virtualMethods.length;
+      numVirtualFields = virtualFields.length;
+      for (let i = 0; i < numVirtualMethods; ++i) {
+        let original = virtualMethods[i];
+        if (original.prototype.declaration.body) this.compileFunction(original);
+        let overrides = this.resolveOverrides(original, ReportMode.SWALLOW);
+        for (let override of overrides.keys()) this.compileFunction(override);
+      }
+      for (let i = 0; i < numVirtualFields; ++i) {
+        let field = virtualFields[i];
+        for (let isSetter = 0; isSetter < 2; ++isSetter) {
+          let implementations = this.resolveFieldImplementations(field, isSetter != 0, ReportMode.SWALLOW);
+          for (let implementation of implementations.keys()) {
+            if (implementation.kind == ElementKind.FUNCTION) this.compileFunction(<Function>implementation);
+          }
+        }
+      }
+    } while (
+      numInstances != program.instancesLookup.size ||
+      numVirtualMethods != virtualMethods.length ||
+      numVirtualFields != virtualFields.length
+    );
+    for (let i = 0, k = virtualFields.length; i < k; ++i) {
+      this.compileVirtualFieldAccessors(virtualFields[i]);
+    }
+
+    var module = this.module;
+    var nativeSizeType = this.options.nativeSizeType;
+    for (let i = 0, k = virtualMethods.length; i < k; ++i) {
+      let original = virtualMethods[i];
+      let stub = assert(original.virtualStub);
+      let signature = original.signature;
+      let parameterTypes = signature.parameterTypes;
+      let returnType = signature.returnType;
+      let nativeReturnType = returnType.toNativeType();
+      let idIndex = 1 + parameterTypes.length; // additional local holding the class id
+      let mayThrow = original.mayThrow;
+
+      let body = new Array<ExpressionRef>();
+      body.push(
+        module.createSetLocal(idIndex,
+          this.makeClassIdLoad(module.createGetLocal(0, nativeSizeType))
+        )
+      );
+      let overrides = this.resolveOverrides(original, ReportMode.REPORT);
+      for (let [override, classIds] of overrides) {
+        let condition = module.createBinary(BinaryOp.EqI32,
+          module.createGetLocal(idIndex, NativeType.I32),
+          module.createI32(classIds[0])
+        );
+        for (let j = 1, l = classIds.length; j < l; ++j) {
+          condition = module.createBinary(BinaryOp.OrI32,
+            condition,
+            module.createBinary(BinaryOp.EqI32,
+              module.createGetLocal(idIndex, NativeType.I32),
+              module.createI32(classIds[j])
+            )
+          );
+        }
+        let call = module.createCall(override.internalName, this.makeForwardedOperands(signature), nativeReturnType);
+        body.push(
+          module.createIf(condition,
+            returnType == Type.void
+              ? module.createBlock(null, [ call, module.createReturn() ])
+              : module.createReturn(call)
+          )
+        );
+        if (override.mayThrow) mayThrow = true;
+      }
+
+      // fall back to the original method if it has an implementation
+      if (original.prototype.declaration.body) {
+        body.push(module.createCall(original.internalName, this.makeForwardedOperands(signature), nativeReturnType));
+      } else {
+        body.push(module.createUnreachable());
+      }
+
+      let funcRef = module.addFunction(
+        stub.internalName,
+        this.ensureFunctionType(
+          parameterTypes,
+          returnType,
+          signature.thisType
+        ),
+        [ NativeType.I32 ],
+        module.createBlock(null, body, nativeReturnType)
       );
+      stub.mayThrow = mayThrow;
+      stub.finalize(module, funcRef);
     }
-    return internalName;
   }
 
-  /** Makes sure that the argument count helper setter is present and returns its name. */
-  private ensureArgcSet(): string {
-    var internalName = "~setargc";
-    if (!this.argcSet) {
-      let module = this.module;
-      this.argcSet = module.addFunction(internalName,
-        this.ensureFunctionType([ Type.u32 ], Type.void),
-        null,
-        module.createSetGlobal(this.ensureArgcVar(),
-          module.createGetLocal(0, NativeType.I32)
+  /** Compiles the getter and the setter of the specified interface field, dispatching on the runtime class. */
+  private compileVirtualFieldAccessors(field: Field): void {
+    var module = this.module;
+    var usizeType = this.options.usizeType;
+    var nativeSizeType = usizeType.toNativeType();
+    var type = field.type;
+    var nativeType = type.toNativeType();
+    for (let isSetter = 0; isSetter < 2; ++isSetter) {
+      let idIndex = 1 + isSetter; // additional local holding the class id
+      let body = new Array<ExpressionRef>();
+      body.push(
+        module.createSetLocal(idIndex,
+          this.makeClassIdLoad(module.createGetLocal(0, nativeSizeType))
         )
       );
-      module.addFunctionExport(internalName, "_setargc");
+      let implementations = this.resolveFieldImplementations(field, isSetter != 0, ReportMode.REPORT);
+      for (let [implementation, classIds] of implementations) {
+        let condition = module.createBinary(BinaryOp.EqI32,
+          module.createGetLocal(idIndex, NativeType.I32),
+          module.createI32(classIds[0])
+        );
+        for (let j = 1, l = classIds.length; j < l; ++j) {
+          condition = module.createBinary(BinaryOp.OrI32,
+            condition,
+            module.createBinary(BinaryOp.EqI32,
+              module.createGetLocal(idIndex, NativeType.I32),
+              module.createI32(classIds[j])
+            )
+          );
+        }
+        let access: ExpressionRef;
+        if (implementation.kind == ElementKind.FIELD) {
+          let memoryOffset = (<Field>implementation).memoryOffset;
+          assert(memoryOffset >= 0);
+          access = isSetter
+            ? module.createStore(type.byteSize,
+                module.createGetLocal(0, nativeSizeType),
+                module.createGetLocal(1, nativeType),
+                nativeType,
+                memoryOffset
+              )
+            : module.createLoad(type.byteSize,
+                type.is(TypeFlags.SIGNED | TypeFlags.INTEGER),
+                module.createGetLocal(0, nativeSizeType),
+                nativeType,
+                memoryOffset
+              );
+        } else {
+          let operands = [ module.createGetLocal(0, nativeSizeType) ];
+          if (isSetter) operands.push(module.createGetLocal(1, nativeType));
+          access = module.createCall(
+            (<Function>implementation).internalName,
+            operands,
+            isSetter ? NativeType.None : nativeType
+          );
+        }
+        body.push(
+          module.createIf(condition,
+            isSetter
+              ? module.createBlock(null, [ access, module.createReturn() ])
+              : module.createReturn(access)
+          )
+        );
+      }
+      body.push(module.createUnreachable());
+      module.addFunction(
+        field.internalName + (isSetter ? "|set" : "|get"),
+        this.ensureFunctionType(
+          isSetter ? [ type ] : null,
+          isSetter ? Type.void : type,
+          usizeType
+        ),
+        [ NativeType.I32 ],
+        module.createBlock(null, body, isSetter ? NativeType.None : nativeType)
+      );
     }
-    return internalName;
   }
 
-  /** Creates a direct call to the specified function. */
-  makeCallDirect(
-    instance: Function,
-    operands: ExpressionRef[] | null = null
-  ): ExpressionRef {
-    var numOperands = operands ? operands.length : 0;
-    var numArguments = numOperands;
-    var minArguments = instance.signature.requiredParameters;
-    var minOperands = minArguments;
-    var maxArguments = instance.signature.parameterTypes.length;
-    var maxOperands = maxArguments;
-    if (instance.is(CommonFlags.INSTANCE)) {
-      ++minOperands;
-      ++maxOperands;
-      --numArguments;
+  /** Resolves the fields or accessors implementing an interface field to the ids of the classes using them. */
+  private resolveFieldImplementations(field: Field, isSetter: bool, reportMode: ReportMode): Map<Element,u32[]> {
+    var implementations = new Map<Element,u32[]>();
+    var declaringInterface = <Class>assert(field.parent);
+    var type = field.type;
+    for (let element of this.program.instancesLookup.values()) {
+      if (element.kind != ElementKind.CLASS) continue;
+      let classInstance = <Class>element;
+      if (!classInstance.isAssignableTo(declaringInterface) || !classInstance.members) continue;
+      let member = classInstance.members.get(field.simpleName);
+      if (!member) continue;
+      let implementation: Element | null = null;
+      let implementationType: Type | null = null;
+      let reportNode: Node | null = null;
+      if (member.kind == ElementKind.FIELD) {
+        implementation = member;
+        implementationType = (<Field>member).type;
+        reportNode = (<Field>member).declaration;
+      } else if (member.kind == ElementKind.PROPERTY) {
+        let accessorPrototype = isSetter
+          ? (<Property>member).setterPrototype
+          : (<Property>member).getterPrototype;
+        if (!accessorPrototype) continue;
+        let accessor = this.resolver.resolveFunction(accessorPrototype, null, null, reportMode);
+        if (!accessor) continue;
+        implementation = accessor;
+        implementationType = isSetter ? accessor.signature.parameterTypes[0] : accessor.signature.returnType;
+        reportNode = accessorPrototype.declaration.name;
+      }
+      if (!implementation) continue;
+      if (implementationType != type) {
+        if (reportMode == ReportMode.REPORT && reportNode && !(isSetter && member.kind == ElementKind.FIELD)) {
+          this.error(
+            DiagnosticCode.Type_0_is_not_assignable_to_type_1,
+            reportNode.range, assert(implementationType).toString(), type.toString()
+          );
+        }
+        continue;
+      }
+      let classIds = implementations.get(implementation);
+      if (classIds) classIds.push(classInstance.id);
+      else implementations.set(implementation, [ classInstance.id ]);
     }
-    assert(numOperands >= minOperands);
+    return implementations;
+  }
 
+  /** Makes the operands forwarding all arguments of an instance method of the specified signature, incl. `this`. */
+  private makeForwardedOperands(signature: Signature): ExpressionRef[] {
     var module = this.module;
-    if (!this.compileFunction(instance)) return module.createUnreachable();
+    var parameterTypes = signature.parameterTypes;
+    var numParameters = parameterTypes.length;
+    var operands = new Array<ExpressionRef>(1 + numParameters);
+    operands[0] = module.createGetLocal(0, this.options.nativeSizeType);
+    for (let i = 0; i < numParameters; ++i) {
+      operands[i + 1] = module.createGetLocal(i + 1, parameterTypes[i].toNativeType());
+    }
+    return operands;
+  }
+
+  /** Resolves the overrides of the specified virtual method to the ids of the classes using them. */
+  private resolveOverrides(original: Function, reportMode: ReportMode): Map<Function,u32[]> {
+    var overrides = new Map<Function,u32[]>();
+    var declaringClass = <Class>assert(original.parent);
+    var declaration = original.prototype.declaration;
+    var isGetter = original.is(CommonFlags.GET);
+    var isSetter = original.is(CommonFlags.SET);
+    var memberName = original.prototype.simpleName;
+    if (isGetter) memberName = memberName.substring(GETTER_PREFIX.length);
+    else if (isSetter) memberName = memberName.substring(SETTER_PREFIX.length);
+    for (let element of this.program.instancesLookup.values()) {
+      if (element.kind != ElementKind.CLASS || element == declaringClass) continue;
+      let classInstance = <Class>element;
+      if (!classInstance.isAssignableTo(declaringClass) || !classInstance.members) continue;
+      let member = classInstance.members.get(memberName);
+      if (!member) continue;
+      let overridePrototype: FunctionPrototype | null = null;
+      if (isGetter || isSetter) {
+        if (member.kind == ElementKind.PROPERTY) {
+          overridePrototype = isGetter
+            ? (<Property>member).getterPrototype
+            : (<Property>member).setterPrototype;
+        }
+      } else if (member.kind == ElementKind.FUNCTION_PROTOTYPE) {
+        overridePrototype = <FunctionPrototype>member;
+      }
+      if (!overridePrototype || overridePrototype.declaration == declaration) continue; // inherited
+      let override = this.resolver.resolveFunction(overridePrototype, null, null, reportMode);
+      if (!override || !override.prototype.declaration.body) continue;
+      if (!override.signature.isAssignableTo(original.signature)) {
+        if (reportMode == ReportMode.REPORT) {
+          this.error(
+            DiagnosticCode.Implementation_0_must_match_the_signature_1,
+            override.prototype.declaration.name.range, override.internalName, original.signature.toString()
+          );
+        }
+        continue;
+      }
+      let classIds = overrides.get(override);
+      if (classIds) classIds.push(classInstance.id);
+      else overrides.set(override, [ classInstance.id ]);
+    }
+    return overrides;
+  }
+
+  /** Compiles the runtime type information table and exports its location. */
+  private compileRTTI(): void {
+    // The table starts with the number of classes, followed by one entry of (id, base id, flags)
+    // per class, ordered by id. Ids start at 1, with 0 indicating the absence of a base class.
+    var program = this.program;
+    var module = this.module;
+    var numClasses = program.nextClassId - 1;
+    var buf = new Uint8Array(4 + numClasses * 12);
+    writeI32(numClasses, buf, 0);
+    for (let element of program.instancesLookup.values()) {
+      if (element.kind != ElementKind.CLASS && element.kind != ElementKind.INTERFACE) continue;
+      let classInstance = <Class>element;
+      let base = classInstance.base;
+      let flags = RTTIFlags.NONE;
+      if (element.kind == ElementKind.INTERFACE) flags |= RTTIFlags.INTERFACE;
+      if (classInstance.type.isManaged(program)) flags |= RTTIFlags.MANAGED;
+      if (classInstance.hasRuntimeClassId()) flags |= RTTIFlags.HEADER;
+      let offset = 4 + (classInstance.id - 1) * 12;
+      writeI32(classInstance.id, buf, offset);
+      writeI32(base ? base.id : 0, buf, offset + 4);
+      writeI32(flags, buf, offset + 8);
+    }
+    var rttiOffset = this.addMemorySegment(buf).offset;
+    if (this.options.isWasm64) {
+      module.addGlobal(
+        "RTTI_BASE",
+        NativeType.I64,
+        false,
+        module.createI64(i64_low(rttiOffset), i64_high(rttiOffset))
+      );
+    } else {
+      module.addGlobal(
+        "RTTI_BASE",
+        NativeType.I32,
+        false,
+        module.createI32(i64_low(rttiOffset))
+      );
+    }
+    module.addGlobalExport("RTTI_BASE", "RTTI_BASE");
+    program.compilerExports.add("RTTI_BASE");
+  }
+
+  /** Makes sure that the dynamic instanceof helper function is present and returns its name. */
+  private ensureInstanceOfHelper(): string {
+    // Walks the bases of the runtime class of the object at the reference given as the first
+    // argument, checking whether any of them matches the class id given as the second argument.
+    var internalName = "~instanceof";
+    if (!this.instanceOfHelper) {
+      let module = this.module;
+      let options = this.options;
+      let nativeSizeType = options.nativeSizeType;
+      let isWasm64 = options.isWasm64;
+      let baseIdOffsetExpr = module.createBinary(BinaryOp.SubI32, // 4 + (id - 1) * 12 + 4
+        module.createBinary(BinaryOp.MulI32,
+          module.createGetLocal(2, NativeType.I32),
+          module.createI32(12)
+        ),
+        module.createI32(4)
+      );
+      this.instanceOfHelper = module.addFunction(internalName,
+        this.ensureFunctionType([ options.usizeType, Type.u32 ], Type.bool),
+        [ NativeType.I32 ],
+        module.createBlock(null, [
+          module.createIf(
+            module.createUnary(isWasm64 ? UnaryOp.EqzI64 : UnaryOp.EqzI32,
+              module.createGetLocal(0, nativeSizeType)
+            ),
+            module.createReturn(module.createI32(0))
+          ),
+          module.createSetLocal(2,
+            this.makeClassIdLoad(module.createGetLocal(0, nativeSizeType))
+          ),
+          module.createLoop("continue",
+            module.createBlock(null, [
+              module.createIf(
+                module.createBinary(BinaryOp.EqI32,
+                  module.createGetLocal(2, NativeType.I32),
+                  module.createGetLocal(1, NativeType.I32)
+                ),
+                module.createReturn(module.createI32(1))
+              ),
+              module.createIf(
+                module.createGetLocal(2, NativeType.I32),
+                module.createBlock(null, [
+                  module.createSetLocal(2,
+                    module.createLoad(4, false,
+                      isWasm64
+                        ? module.createBinary(BinaryOp.AddI64,
+                            module.createGetGlobal("RTTI_BASE", NativeType.I64),
+                            module.createUnary(UnaryOp.ExtendU32, baseIdOffsetExpr)
+                          )
+                        : module.createBinary(BinaryOp.AddI32,
+                            module.createGetGlobal("RTTI_BASE", NativeType.I32),
+                            baseIdOffsetExpr
+                          ),
+                      NativeType.I32
+                    )
+                  ),
+                  module.createBreak("continue")
+                ])
+              )
+            ])
+          ),
+          module.createI32(0)
+        ], NativeType.I32)
+      );
+      this.needsRTTI = true;
+    }
+    return internalName;
+  }
+
+  /** Makes sure that a helper checking whether an object implements the specified interface exists. */
+  private ensureInterfaceCheck(interfaceInstance: Class): string {
+    // Tests whether the runtime class of the object at the reference given as the only argument is
+    // any of the classes implementing the interface. Generated once all classes are known.
+    var interfaceChecks = this.interfaceChecks;
+    if (!interfaceChecks.includes(interfaceInstance)) interfaceChecks.push(interfaceInstance);
+    return "~instanceof|" + interfaceInstance.internalName;
+  }
+
+  /** Compiles the helper checking whether an object implements the specified interface. */
+  private compileInterfaceCheck(interfaceInstance: Class): void {
+    var module = this.module;
+    var options = this.options;
+    var nativeSizeType = options.nativeSizeType;
+    var condition: ExpressionRef = 0;
+    for (let element of this.program.instancesLookup.values()) {
+      if (element.kind != ElementKind.CLASS) continue;
+      let classInstance = <Class>element;
+      if (!classInstance.isAssignableTo(interfaceInstance)) continue;
+      let check = module.createBinary(BinaryOp.EqI32,
+        module.createGetLocal(1, NativeType.I32),
+        module.createI32(classInstance.id)
+      );
+      condition = condition ? module.createBinary(BinaryOp.OrI32, condition, check) : check;
+    }
+    if (!condition) condition = module.createI32(0);
+    module.addFunction("~instanceof|" + interfaceInstance.internalName,
+      this.ensureFunctionType([ options.usizeType ], Type.bool),
+      [ NativeType.I32 ],
+      module.createBlock(null, [
+        module.createIf(
+          module.createUnary(options.isWasm64 ? UnaryOp.EqzI64 : UnaryOp.EqzI32,
+            module.createGetLocal(0, nativeSizeType)
+          ),
+          module.createReturn(module.createI32(0))
+        ),
+        module.createSetLocal(1,
+          this.makeClassIdLoad(module.createGetLocal(0, nativeSizeType))
+        ),
+        condition
+      ], NativeType.I32)
+    );
+  }
+
+  /** Makes a load of the runtime class id of the object at the specified reference. */
+  makeClassIdLoad(refExpr: ExpressionRef): ExpressionRef {
+    var module = this.module;
+    return module.createLoad(4, false,
+      this.options.isWasm64
+        ? module.createBinary(BinaryOp.SubI64, refExpr, module.createI64(4))
+        : module.createBinary(BinaryOp.SubI32, refExpr, module.createI32(4)),
+      NativeType.I32
+    );
+  }
+
+  /** Makes sure that the argument count helper global is present and returns its name. */
+  private ensureArgcVar(): string {
+    var internalName = "~argc";
+    if (!this.argcVar) {
+      let module = this.module;
+      this.argcVar = module.addGlobal(
+        internalName,
+        NativeType.I32,
+        true,
+        module.createI32(0)
+      );
+    }
+    return internalName;
+  }
+
+  /** Makes sure that the argument count helper setter is present and returns its name. */
+  private ensureArgcSet(): string {
+    var internalName = "~setargc";
+    if (!this.argcSet) {
+      let module = this.module;
+      this.argcSet = module.addFunction(internalName,
+        this.ensureFunctionType([ Type.u32 ], Type.void),
+        null,
+        module.createSetGlobal(this.ensureArgcVar(),
+          module.createGetLocal(0, NativeType.I32)
+        )
+      );
+      module.addFunctionExport(internalName, "_setargc");
+      this.program.compilerExports.add("_setargc");
+    }
+    return internalName;
+  }
+
+  /** Makes sure that the pending exception helper global is present and returns its name. */
+  private ensureExceptionVar(): string {
+    var internalName = "~exception";
+    if (!this.exceptionVar) {
+      let module = this.module;
+      let usizeType = this.options.usizeType;
+      this.exceptionVar = module.addGlobal(
+        internalName,
+        usizeType.toNativeType(),
+        true,
+        usizeType.toNativeZero(module)
+      );
+    }
+    return internalName;
+  }
+
+  /** Makes sure that the closure environment helper global is present and returns its name. */
+  ensureEnvVar(): string {
+    var internalName = "~env";
+    if (!this.envVar) {
+      let module = this.module;
+      this.envVar = module.addGlobal(
+        internalName,
+        NativeType.I32, // a function value
+        true,
+        module.createI32(0)
+      );
+    }
+    return internalName;
+  }
+
+  /** Makes sure that the helper global passing the tuple element at an index is present and returns its name. */
+  private ensureTupleVar(index: i32, type: Type): string {
+    assert(index > 0); // the first element is the native result
+    var internalName = "~tuple" + index.toString(10) + ":" + type.toSignatureString();
+    if (!this.tupleVars.has(internalName)) {
+      let module = this.module;
+      module.addGlobal(
+        internalName,
+        type.toNativeType(),
+        true,
+        type.toNativeZero(module)
+      );
+      this.tupleVars.add(internalName);
+    }
+    return internalName;
+  }
+
+  /** Makes a pointer from a function value, which points to its table index and environment. */
+  private makeFunctionValuePointer(valueExpr: ExpressionRef): ExpressionRef {
+    return this.options.isWasm64
+      ? this.module.createUnary(UnaryOp.ExtendU32, valueExpr)
+      : valueExpr;
+  }
+
+  /** Makes the table index to call from a function value, providing the value as the hidden context. */
+  makeCallTarget(valueExpr: ExpressionRef): ExpressionRef {
+    var module = this.module;
+    var envVar = this.ensureEnvVar();
+    return module.createBlock(null, [
+      module.createSetGlobal(envVar, valueExpr),
+      module.createLoad(4, false,
+        this.makeFunctionValuePointer(module.createGetGlobal(envVar, NativeType.I32)),
+        NativeType.I32
+      )
+    ], NativeType.I32);
+  }
+
+  /** Makes a pointer to the environment holding the specified local captured by a closure. */
+  private makeEnvPointer(local: Local): ExpressionRef {
+    var module = this.module;
+    var usizeType = this.options.usizeType;
+    var nativeSizeType = usizeType.toNativeType();
+    var currentFunction = this.currentFunction;
+    if (local.envFunction == currentFunction) {
+      let bindingEnvLocal = local.bindingEnvLocal;
+      return module.createGetLocal(
+        bindingEnvLocal
+          ? bindingEnvLocal.index
+          : assert(currentFunction.envLocal).index,
+        nativeSizeType
+      );
+    }
+    // otherwise follow the links to outer environments, starting at the closure's environment
+    var outerEnvLocal = currentFunction.outerEnvLocal;
+    if (!outerEnvLocal) {
+      outerEnvLocal = currentFunction.addLocal(usizeType);
+      currentFunction.outerEnvLocal = outerEnvLocal;
+    }
+    var envExpr = module.createGetLocal(outerEnvLocal.index, nativeSizeType);
+    for (let i = 0, k = this.countEnvLinks(assert(currentFunction.outerScope), local); i < k; ++i) {
+      envExpr = module.createLoad(usizeType.byteSize, false, envExpr, nativeSizeType, 0);
+    }
+    return envExpr;
+  }
+
+  /** Counts the links to follow from the innermost environment of the specified flow to the one holding a local. */
+  private countEnvLinks(flow: Flow, local: Local): i32 {
+    var numLinks = 0;
+    while (true) {
+      let currentFunction: Function = flow.currentFunction;
+      // environments of bindings declared within loops come first, innermost first
+      let current: Flow | null = flow;
+      do {
+        let capturedBindings = current.capturedBindings;
+        if (capturedBindings) {
+          for (let i = capturedBindings.length - 1; i >= 0; --i) {
+            if (capturedBindings[i] == local) return numLinks;
+            ++numLinks;
+          }
+        }
+      } while (current = current.parent);
+      // followed by the environment of the function, linking to the one of its outer function
+      if (local.envFunction == currentFunction) return numLinks;
+      ++numLinks;
+      flow = assert(currentFunction.outerScope);
+    }
+  }
+
+  /** Makes the innermost environment of the specified flow, optionally the one preceding a binding declared in it. */
+  private makeInnermostEnv(flow: Flow, binding: Local | null = null): ExpressionRef {
+    var nativeSizeType = this.options.nativeSizeType;
+    var current: Flow | null = flow;
+    do {
+      let capturedBindings = current.capturedBindings;
+      if (capturedBindings) {
+        let index = current == flow && binding
+          ? capturedBindings.indexOf(binding)
+          : capturedBindings.length;
+        if (index > 0) {
+          return this.module.createGetLocal(
+            assert(capturedBindings[index - 1].bindingEnvLocal).index,
+            nativeSizeType
+          );
+        }
+      }
+    } while (current = current.parent);
+    return this.module.createGetLocal(assert(flow.currentFunction.envLocal).index, nativeSizeType);
+  }
+
+  /** Makes a new environment of the specified block-scoped local captured within a loop, whenever declared. */
+  makeBindingEnv(flow: Flow, local: Local, reportNode: Node): ExpressionRef {
+    var module = this.module;
+    var usizeType = this.options.usizeType;
+    var nativeSizeType = usizeType.toNativeType();
+    var type = local.type;
+    var envLocal = assert(local.bindingEnvLocal);
+    var markTypes: Type[] = [ usizeType ];
+    var markOffsets: i32[] = [ 0 ];
+    if (type.isManaged(this.program)) {
+      markTypes.push(type);
+      markOffsets.push(local.envOffset);
+    }
+    return module.createBlock(null, [
+      module.createSetLocal(envLocal.index,
+        this.makeEnvAllocate(local.envOffset + type.byteSize, markTypes, markOffsets, reportNode)
+      ),
+      module.createStore(usizeType.byteSize,
+        module.createGetLocal(envLocal.index, nativeSizeType),
+        this.makeInnermostEnv(flow, local),
+        nativeSizeType
+      ),
+      module.createStore(type.byteSize,
+        module.createGetLocal(envLocal.index, nativeSizeType),
+        type.toNativeZero(module),
+        type.toNativeType(),
+        local.envOffset
+      )
+    ], NativeType.None);
+  }
+
+  /** Makes copies of the environments of the bindings declared in a loop's flow, giving each iteration its own. */
+  private makeBindingEnvCopies(flow: Flow, reportNode: Node): ExpressionRef[] {
+    var module = this.module;
+    var usizeType = this.options.usizeType;
+    var nativeSizeType = usizeType.toNativeType();
+    var stmts = new Array<ExpressionRef>();
+    var capturedBindings = flow.capturedBindings;
+    if (!capturedBindings) return stmts;
+    var tempLocal = this.currentFunction.getAndFreeTempLocal(usizeType, false);
+    for (let i = 0, k = capturedBindings.length; i < k; ++i) {
+      let local = capturedBindings[i];
+      let type = local.type;
+      let nativeType = type.toNativeType();
+      let envLocal = assert(local.bindingEnvLocal);
+      let markTypes: Type[] = [ usizeType ];
+      let markOffsets: i32[] = [ 0 ];
+      if (type.isManaged(this.program)) {
+        markTypes.push(type);
+        markOffsets.push(local.envOffset);
+      }
+      stmts.push(
+        module.createSetLocal(tempLocal.index, module.createGetLocal(envLocal.index, nativeSizeType))
+      );
+      stmts.push(
+        module.createSetLocal(envLocal.index,
+          this.makeEnvAllocate(local.envOffset + type.byteSize, markTypes, markOffsets, reportNode)
+        )
+      );
+      stmts.push(
+        module.createStore(usizeType.byteSize,
+          module.createGetLocal(envLocal.index, nativeSizeType),
+          i == 0 // link the first to the same outer environment, and the others to the new ones
+            ? module.createLoad(usizeType.byteSize, false,
+                module.createGetLocal(tempLocal.index, nativeSizeType),
+                nativeSizeType
+              )
+            : module.createGetLocal(assert(capturedBindings[i - 1].bindingEnvLocal).index, nativeSizeType),
+          nativeSizeType
+        )
+      );
+      stmts.push(
+        module.createStore(type.byteSize,
+          module.createGetLocal(envLocal.index, nativeSizeType),
+          module.createLoad(type.byteSize, type.is(TypeFlags.SIGNED | TypeFlags.INTEGER),
+            module.createGetLocal(tempLocal.index, nativeSizeType),
+            nativeType,
+            local.envOffset
+          ),
+          nativeType,
+          local.envOffset
+        )
+      );
+    }
+    return stmts;
+  }
+
+  /** Makes a load of the specified local captured by a closure. */
+  private makeCapturedGet(local: Local): ExpressionRef {
+    var type = local.type;
+    this.currentType = type;
+    return this.module.createLoad(
+      type.byteSize,
+      type.is(TypeFlags.SIGNED | TypeFlags.INTEGER),
+      this.makeEnvPointer(local),
+      type.toNativeType(),
+      local.envOffset
+    );
+  }
+
+  /** Makes a store to the specified local captured by a closure, optionally returning the value. */
+  private makeCapturedSet(local: Local, valueExpr: ExpressionRef, tee: bool): ExpressionRef {
+    var module = this.module;
+    var type = local.type;
+    var nativeType = type.toNativeType();
+    if (!tee) {
+      return module.createStore(type.byteSize, this.makeEnvPointer(local), valueExpr, nativeType, local.envOffset);
+    }
+    var tempLocal = this.currentFunction.getAndFreeTempLocal(type, false);
+    return module.createBlock(null, [
+      module.createStore(type.byteSize,
+        this.makeEnvPointer(local),
+        module.createTeeLocal(tempLocal.index, valueExpr),
+        nativeType,
+        local.envOffset
+      ),
+      module.createGetLocal(tempLocal.index, nativeType)
+    ], nativeType);
+  }
+
+  /** Makes an allocation of the specified number of bytes using `memory.allocate`. */
+  private makeMemoryAllocate(size: i32, reportNode: Node): ExpressionRef {
+    var module = this.module;
+    var program = this.program;
+    var options = this.options;
+    var allocateInstance = program.memoryAllocateInstance;
+    if (!allocateInstance) {
+      this.error(
+        DiagnosticCode.Cannot_find_name_0,
+        reportNode.range, "memory.allocate"
+      );
+      return module.createUnreachable();
+    }
+    if (!this.compileFunction(allocateInstance)) return module.createUnreachable();
+    return module.createCall(allocateInstance.internalName, [
+      options.isWasm64
+        ? module.createI64(size)
+        : module.createI32(size)
+    ], options.nativeSizeType);
+  }
+
+  /** Makes an allocation of a closure environment or function value, managed if a GC is present. */
+  private makeEnvAllocate(size: i32, markTypes: Type[], markOffsets: i32[], reportNode: Node): ExpressionRef {
+    var module = this.module;
+    var program = this.program;
+    var options = this.options;
+    if (!program.hasGC) return this.makeMemoryAllocate(size, reportNode);
+    var allocateInstance = assert(program.gcAllocateInstance);
+    if (!this.compileFunction(allocateInstance)) return module.createUnreachable();
+    return module.createCall(allocateInstance.internalName, [
+      options.isWasm64
+        ? module.createI64(size)
+        : module.createI32(size),
+      this.ensureStaticFunction(ensureEnvGCHook(this, markTypes, markOffsets))
+    ], options.nativeSizeType);
+  }
+
+  /** Makes the statements setting up the environment of a function with captured locals. */
+  private makeEnvPrologue(instance: Function, reportNode: Node): ExpressionRef[] {
+    var module = this.module;
+    var usizeType = this.options.usizeType;
+    var nativeSizeType = usizeType.toNativeType();
+    var stmts = new Array<ExpressionRef>();
+    var envLocal = instance.envLocal;
+    var outerEnvLocal = instance.outerEnvLocal;
+
+    // a closure must link its own environment to the outer environment
+    if (envLocal && instance.outerScope && !outerEnvLocal) {
+      outerEnvLocal = instance.addLocal(usizeType);
+      instance.outerEnvLocal = outerEnvLocal;
+    }
+
+    // obtain the outer environment from the function value provided by the caller
+    if (outerEnvLocal) {
+      stmts.push(
+        module.createSetLocal(outerEnvLocal.index,
+          module.createLoad(usizeType.byteSize, false,
+            this.makeFunctionValuePointer(module.createGetGlobal(this.ensureEnvVar(), NativeType.I32)),
+            nativeSizeType,
+            usizeType.byteSize // after the table index
+          )
+        )
+      );
+    }
+
+    // allocate the own environment, move captured parameters into it and zero the other locals
+    if (envLocal) {
+      let program = this.program;
+      let localsByIndex = instance.localsByIndex;
+      let numParameters = instance.signature.parameterTypes.length;
+      if (instance.is(CommonFlags.INSTANCE)) ++numParameters;
+      let markTypes: Type[] = [ usizeType ];
+      let markOffsets: i32[] = [ 0 ];
+      let initStmts = new Array<ExpressionRef>();
+      for (let i = 0, k = localsByIndex.length; i < k; ++i) {
+        let local = localsByIndex[i];
+        if (!local || local.envOffset < 0 || local.bindingEnvLocal) continue; // not all are named
+        let type = local.type;
+        let nativeType = type.toNativeType();
+        if (type.isManaged(program)) {
+          markTypes.push(type);
+          markOffsets.push(local.envOffset);
+        }
+        initStmts.push(
+          module.createStore(type.byteSize,
+            module.createGetLocal(envLocal.index, nativeSizeType),
+            i < numParameters
+              ? module.createGetLocal(local.index, nativeType)
+              : type.toNativeZero(module),
+            nativeType,
+            local.envOffset
+          )
+        );
+      }
+      stmts.push(
+        module.createSetLocal(envLocal.index,
+          this.makeEnvAllocate(instance.envSize, markTypes, markOffsets, reportNode)
+        )
+      );
+      stmts.push(
+        module.createStore(usizeType.byteSize,
+          module.createGetLocal(envLocal.index, nativeSizeType),
+          outerEnvLocal
+            ? module.createGetLocal(outerEnvLocal.index, nativeSizeType)
+            : usizeType.toNativeZero(module),
+          nativeSizeType
+        )
+      );
+      for (let i = 0, k = initStmts.length; i < k; ++i) stmts.push(initStmts[i]);
+    }
+    return stmts;
+  }
+
+  /** Prepares the specified function for closures within that may capture its locals. */
+  private prepareEnv(instance: Function, capturedNames: Set<string>): void {
+    instance.capturedNames = capturedNames;
+    // a closure links the environments of closures within to its outer environment
+    if (instance.outerScope) instance.ensureEnvLocal();
+    var localsByIndex = instance.localsByIndex;
+    var numParameters = instance.signature.parameterTypes.length;
+    if (instance.is(CommonFlags.INSTANCE)) ++numParameters;
+    for (let i = 0; i < numParameters; ++i) {
+      let local = localsByIndex[i];
+      if (local.envOffset < 0 && capturedNames.has(local.simpleName)) instance.captureLocal(local);
+    }
+  }
+
+  /** Makes a jump propagating the pending exception to the innermost handler or to the caller. */
+  private makeRethrow(): ExpressionRef {
+    var module = this.module;
+    var currentFunction = this.currentFunction;
+    var catchLabel = currentFunction.flow.catchLabel;
+    if (catchLabel) return module.createBreak(catchLabel);
+    if (!currentFunction.mayThrow) {
+      currentFunction.mayThrow = true;
+      // static memory is finalized before exports are made, so make sure that the file name is
+      // present in case an uncaught wrapper must abort with it (see ensureUncaughtWrapper)
+      this.ensureStaticString(currentFunction.prototype.declaration.range.source.normalizedPath);
+    }
+    if (currentFunction == this.startFunctionInstance) return module.createBreak("uncaught|start");
+    var returnType = currentFunction.signature.returnType;
+    return module.createReturn(returnType == Type.void ? 0 : returnType.toNativeZero(module));
+  }
+
+  /** Makes a check propagating the exception that might be pending after the specified call. */
+  private makeExceptionCheck(callExpr: ExpressionRef, returnType: Type): ExpressionRef {
+    var module = this.module;
+    var usizeType = this.options.usizeType;
+    var check = module.createIf(
+      this.makeIsTrueish(
+        module.createGetGlobal(this.ensureExceptionVar(), usizeType.toNativeType()),
+        usizeType
+      ),
+      this.makeRethrow()
+    );
+    if (returnType == Type.void) return module.createBlock(null, [ callExpr, check ]);
+    var nativeReturnType = returnType.toNativeType();
+    var tempLocal = this.currentFunction.getAndFreeTempLocal(returnType, false);
+    return module.createBlock(null, [
+      module.createSetLocal(tempLocal.index, callExpr),
+      check,
+      module.createGetLocal(tempLocal.index, nativeReturnType)
+    ], nativeReturnType);
+  }
+
+  /** Makes a call to abort with the message of the pending exception. */
+  private makeUncaughtAbort(reportNode: Node): ExpressionRef {
+    var module = this.module;
+    var program = this.program;
+    var abortInstance = program.abortInstance;
+    if (!(abortInstance && this.compileFunction(abortInstance))) return module.createUnreachable();
+    var errorInstance = assert(program.errorInstance);
+    var usizeType = this.options.usizeType;
+    var nativeSizeType = usizeType.toNativeType();
+    var range = reportNode.range;
+    return module.createBlock(null, [
+      module.createCallImport(abortInstance.internalName, [
+        module.createLoad(usizeType.byteSize, false,
+          module.createGetGlobal(this.ensureExceptionVar(), nativeSizeType),
+          nativeSizeType,
+          errorInstance.offsetof("message")
+        ),
+        this.ensureStaticString(range.source.normalizedPath),
+        module.createI32(range.line),
+        module.createI32(range.column)
+      ], NativeType.None),
+      module.createUnreachable()
+    ]);
+  }
+
+  /** Makes sure that a wrapper aborting on exceptions escaping the specified function is present. */
+  private ensureUncaughtWrapper(original: Function): string {
+    var internalName = original.internalName + "|uncaught";
+    var uncaughtWrappers = this.uncaughtWrappers;
+    if (uncaughtWrappers.has(internalName)) return internalName;
+    uncaughtWrappers.add(internalName);
+    var module = this.module;
+    var usizeType = this.options.usizeType;
+    var signature = original.signature;
+    var parameterTypes = signature.parameterTypes;
+    var returnType = signature.returnType;
+    var thisType = signature.thisType;
+    var operands = new Array<ExpressionRef>();
+    var index = 0;
+    if (thisType) {
+      operands.push(module.createGetLocal(index++, thisType.toNativeType()));
+    }
+    for (let i = 0, k = parameterTypes.length; i < k; ++i) {
+      operands.push(module.createGetLocal(index++, parameterTypes[i].toNativeType()));
+    }
+    var nativeReturnType = returnType.toNativeType();
+    var call = module.createCall(original.internalName, operands, nativeReturnType);
+    var check = module.createIf(
+      this.makeIsTrueish(
+        module.createGetGlobal(this.ensureExceptionVar(), usizeType.toNativeType()),
+        usizeType
+      ),
+      this.makeUncaughtAbort(original.prototype.declaration.name)
+    );
+    var locals: NativeType[] | null = null;
+    var body: ExpressionRef;
+    if (returnType == Type.void) {
+      body = module.createBlock(null, [ call, check ]);
+    } else {
+      locals = [ nativeReturnType ];
+      body = module.createBlock(null, [
+        module.createSetLocal(index, call),
+        check,
+        module.createGetLocal(index, nativeReturnType)
+      ], nativeReturnType);
+    }
+    module.addFunction(internalName, this.ensureFunctionType(parameterTypes, returnType, thisType), locals, body);
+    return internalName;
+  }
+
+  /** Makes sure that a constructor of the specified class calling its inherited constructor is present. */
+  private ensureInheritedConstructor(classInstance: Class, inherited: Function): Function {
+    var inheritedConstructors = this.inheritedConstructors;
+    if (inheritedConstructors.has(classInstance)) return <Function>inheritedConstructors.get(classInstance);
+    this.compileFunction(inherited);
+    var module = this.module;
+    var inheritedSignature = inherited.signature;
+    var parameterTypes = inheritedSignature.parameterTypes;
+    var classType = classInstance.type;
+    var signature = new Signature(parameterTypes, classType, classType);
+    signature.requiredParameters = inheritedSignature.requiredParameters;
+    signature.parameterNames = inheritedSignature.parameterNames;
+    var ctor = new Function(
+      inherited.prototype,
+      classInstance.internalName + INSTANCE_DELIMITER + inherited.simpleName,
+      signature,
+      classInstance,
+      classInstance.contextualTypeArguments
+    );
+    ctor.set(CommonFlags.COMPILED);
+    ctor.mayThrow = inherited.mayThrow;
+    inheritedConstructors.set(classInstance, ctor);
+
+    // allocate and initialize the instance in scope of the new constructor, like the inherited one would
+    var previousFunction = this.currentFunction;
+    this.currentFunction = ctor;
+    var operands = new Array<ExpressionRef>();
+    operands.push(this.makeConditionalAllocate(classInstance, inherited.prototype.declaration.name));
+    for (let i = 0, k = parameterTypes.length; i < k; ++i) {
+      operands.push(module.createGetLocal(1 + i, parameterTypes[i].toNativeType()));
+    }
+    var body = module.createCall(inherited.internalName, operands, this.options.nativeSizeType);
+    this.currentFunction = previousFunction;
+    module.addFunction(
+      ctor.internalName,
+      this.ensureFunctionType(parameterTypes, classType, classType),
+      typesToNativeTypes(ctor.additionalLocals),
+      body
+    );
+    return ctor;
+  }
+
+  /** Creates a direct call to the specified function. */
+  makeCallDirect(
+    instance: Function,
+    operands: ExpressionRef[] | null = null
+  ): ExpressionRef {
+    var numOperands = operands ? operands.length : 0;
+    var numArguments = numOperands;
+    var minArguments = instance.signature.requiredParameters;
+    var minOperands = minArguments;
+    var maxArguments = instance.signature.parameterTypes.length;
+    var maxOperands = maxArguments;
+    if (instance.is(CommonFlags.INSTANCE)) {
+      ++minOperands;
+      ++maxOperands;
+      --numArguments;
+    }
+    assert(numOperands >= minOperands);
+
+    var module = this.module;
+    if (!this.compileFunction(instance)) return module.createUnreachable();
     var returnType = instance.signature.returnType;
     var isCallImport = instance.is(CommonFlags.MODULE_IMPORT);
 
+    // an exception might be pending afterwards if the callee may throw or is still being compiled
+    var mayThrow = this.program.hasExceptionHandling && !isCallImport && (instance.mayThrow || !instance.ref);
+
     // fill up omitted arguments with their initializers, if constant, otherwise with zeroes.
     if (numOperands < maxOperands) {
       if (!operands) {
@@ -5719,19 +7707,26 @@ export class Compiler extends DiagnosticEmitter {
           instance.flow.flags = original.flow.flags;
           this.program.instancesLookup.set(instance.internalName, instance); // so canOverflow can find it
           let nativeReturnType = returnType.toNativeType();
+          let call = module.createCall(instance.internalName, operands, nativeReturnType);
+          if (mayThrow || instance.mayThrow) call = this.makeExceptionCheck(call, returnType);
           this.currentType = returnType;
           return module.createBlock(null, [
             module.createSetGlobal(this.ensureArgcVar(), module.createI32(numArguments)),
-            module.createCall(instance.internalName, operands, nativeReturnType)
+            call
           ], nativeReturnType);
         }
       }
     }
 
     // otherwise just call through
+    var ret: ExpressionRef;
+    if (isCallImport) {
+      ret = module.createCallImport(instance.internalName, operands, returnType.toNativeType());
+    } else {
+      ret = module.createCall(instance.internalName, operands, returnType.toNativeType());
+      if (mayThrow) ret = this.makeExceptionCheck(ret, returnType);
+    }
     this.currentType = returnType;
-    if (isCallImport) return module.createCallImport(instance.internalName, operands, returnType.toNativeType());
-    var ret = module.createCall(instance.internalName, operands, returnType.toNativeType());
     return ret;
   }
 
@@ -5743,6 +7738,9 @@ export class Compiler extends DiagnosticEmitter {
     reportNode: Node,
     thisArg: ExpressionRef = 0
   ): ExpressionRef {
+    var expandedArguments = this.expandArguments(signature, argumentExpressions, reportNode);
+    if (!expandedArguments) return this.module.createUnreachable();
+    argumentExpressions = expandedArguments;
     var numArguments = argumentExpressions.length;
 
     if (!this.checkCallSignature( // reports
@@ -5774,10 +7772,10 @@ export class Compiler extends DiagnosticEmitter {
     return this.makeCallIndirect(signature, indexArg, operands);
   }
 
-  /** Creates an indirect call to the function at `indexArg` in the function table. */
+  /** Creates an indirect call to the function value `valueArg`, providing it as the hidden context. */
   makeCallIndirect(
     signature: Signature,
-    indexArg: ExpressionRef,
+    valueArg: ExpressionRef,
     operands: ExpressionRef[] | null = null
   ): ExpressionRef {
     var numOperands = operands ? operands.length : 0;
@@ -5808,13 +7806,16 @@ export class Compiler extends DiagnosticEmitter {
       }
     }
 
+    // the target is evaluated last, so nested calls within operands cannot clobber the context
     var returnType = signature.returnType;
+    var call = module.createCallIndirect(this.makeCallTarget(valueArg), operands, signature.toSignatureString());
+    if (this.program.hasExceptionHandling) call = this.makeExceptionCheck(call, returnType); // callee is unknown
     this.currentType = returnType;
     return module.createBlock(null, [
       module.createSetGlobal(this.ensureArgcVar(), // might still be calling a trampoline
         module.createI32(numArguments)
       ),
-      module.createCallIndirect(indexArg, operands, signature.toSignatureString())
+      call
     ], returnType.toNativeType()); // not necessarily wrapped
   }
 
@@ -5899,9 +7900,33 @@ export class Compiler extends DiagnosticEmitter {
     // NOTE that, in order to make this work in every case, the function must be represented by a
     // value, so we add it and rely on the optimizer to figure out where it can be called directly.
     var index = this.ensureFunctionTableEntry(instance); // reports
-    return index < 0
-      ? this.module.createUnreachable()
-      : this.module.createI32(index);
+    if (index < 0) return this.module.createUnreachable();
+    if (!instance.outerEnvLocal) return this.ensureStaticFunction(index);
+
+    // otherwise allocate a function value linking the closure to the current environment
+    var module = this.module;
+    var usizeType = this.options.usizeType;
+    var nativeSizeType = usizeType.toNativeType();
+    var tempLocal = currentFunction.getAndFreeTempLocal(usizeType, false);
+    var valueExpr = module.createGetLocal(tempLocal.index, nativeSizeType);
+    if (this.options.isWasm64) valueExpr = module.createUnary(UnaryOp.WrapI64, valueExpr);
+    var allocateExpr = this.makeEnvAllocate(2 * usizeType.byteSize, [ usizeType ], [ usizeType.byteSize ], expression);
+    this.currentType = instance.signature.type;
+    return module.createBlock(null, [
+      module.createSetLocal(tempLocal.index, allocateExpr),
+      module.createStore(4,
+        module.createGetLocal(tempLocal.index, nativeSizeType),
+        module.createI32(index),
+        NativeType.I32
+      ),
+      module.createStore(usizeType.byteSize,
+        module.createGetLocal(tempLocal.index, nativeSizeType),
+        this.makeInnermostEnv(currentFunction.flow),
+        nativeSizeType,
+        usizeType.byteSize
+      ),
+      valueExpr
+    ], NativeType.I32);
   }
 
   /**
@@ -5948,7 +7973,7 @@ export class Compiler extends DiagnosticEmitter {
         if (currentFunction.is(CommonFlags.INSTANCE)) {
           let parent = assert(currentFunction.parent);
           assert(parent.kind == ElementKind.CLASS);
-          let thisType = (<Class>parent).type;
+          let thisType = assert(currentFunction.signature.thisType);
           if (currentFunction.is(CommonFlags.CONSTRUCTOR)) {
             if (!flow.is(FlowFlags.ALLOCATES)) {
               flow.set(FlowFlags.ALLOCATES);
@@ -6015,6 +8040,7 @@ export class Compiler extends DiagnosticEmitter {
         if ((<Local>target).is(CommonFlags.INLINED)) {
           return this.compileInlineConstant(<Local>target, contextualType, retainConstantType);
         }
+        if ((<Local>target).envOffset >= 0) return this.makeCapturedGet(<Local>target);
         let localIndex = (<Local>target).index;
         assert(localIndex >= 0);
         this.currentType = localType;
@@ -6056,7 +8082,7 @@ export class Compiler extends DiagnosticEmitter {
         if (!(instance && this.compileFunction(instance))) return module.createUnreachable();
         let index = this.ensureFunctionTableEntry(instance);
         this.currentType = instance.signature.type;
-        return this.module.createI32(index);
+        return this.ensureStaticFunction(index);
       }
     }
     this.error(
@@ -6079,6 +8105,28 @@ export class Compiler extends DiagnosticEmitter {
     var isType = this.resolver.resolveType(expression.isType);
     this.currentType = Type.bool;
     if (!isType) return module.createUnreachable();
+
+    // downcasts are checked at runtime if the runtime class of the object is known
+    var classReference = type.classReference;
+    var isClassReference = isType.classReference;
+    if (
+      classReference !== null &&
+      isClassReference !== null &&
+      // objects referenced through an interface are always instances of classes with a header
+      (classReference.kind == ElementKind.INTERFACE || classReference.hasRuntimeClassId()) &&
+      !classReference.isAssignableTo(isClassReference)
+    ) {
+      // any class might be extended by a class implementing the interface
+      if (isClassReference.kind == ElementKind.INTERFACE) {
+        return module.createCall(this.ensureInterfaceCheck(isClassReference), [ expr ], NativeType.I32);
+      }
+      if (isClassReference.isAssignableTo(classReference)) {
+        return module.createCall(this.ensureInstanceOfHelper(), [
+          expr,
+          module.createI32(isClassReference.id)
+        ], NativeType.I32);
+      }
+    }
     return type.is(TypeFlags.NULLABLE) && !isType.is(TypeFlags.NULLABLE)
       ? type.nonNullableType.isAssignableTo(isType)
         ? module.createBinary( // not precomputeable
@@ -6179,6 +8227,7 @@ export class Compiler extends DiagnosticEmitter {
             return module.createI64(i64_low(intValue), i64_high(intValue));
           }
           case TypeKind.USIZE: {
+            if (contextualType.is(TypeFlags.REFERENCE)) break; // i.e. concatenated with a string
             if (!this.options.isWasm64) {
               if (i64_is_u32(intValue)) return module.createI32(i64_low(intValue));
               break;
@@ -6223,11 +8272,18 @@ export class Compiler extends DiagnosticEmitter {
         assert(!implicitNegate);
         return this.compileStringLiteral(<StringLiteralExpression>expression);
       }
+      case LiteralKind.TEMPLATE: {
+        assert(!implicitNegate);
+        return this.compileTemplateLiteral(<TemplateLiteralExpression>expression);
+      }
       case LiteralKind.OBJECT: {
         assert(!implicitNegate);
         return this.compileObjectLiteral(<ObjectLiteralExpression>expression, contextualType);
       }
-      // case LiteralKind.REGEXP:
+      case LiteralKind.REGEXP: {
+        assert(!implicitNegate);
+        return this.compileRegexpLiteral(<RegexpLiteralExpression>expression);
+      }
     }
     this.error(
       DiagnosticCode.Operation_not_supported,
@@ -6263,7 +8319,14 @@ export class Compiler extends DiagnosticEmitter {
       if (hasGC) {
         buf = new Uint8Array(gcHeaderSize + totalSize);
         pos = gcHeaderSize;
-        writeI32(ensureGCHook(this, stringInstance), buf, program.gcHookOffset);
+        writeI32(this.ensureFunctionSegment(ensureGCHook(this, stringInstance)), buf, program.gcHookOffset);
+        writeI32(stringInstance.id, buf, pos - 4);
+        this.needsRTTI = true;
+      } else if (stringInstance.hasRuntimeClassId()) {
+        buf = new Uint8Array(program.classIdHeaderSize + totalSize);
+        pos = program.classIdHeaderSize;
+        writeI32(stringInstance.id, buf, pos - 4);
+        this.needsRTTI = true;
       } else {
         buf = new Uint8Array(totalSize);
         pos = 0;
@@ -6277,7 +8340,11 @@ export class Compiler extends DiagnosticEmitter {
       segments.set(stringValue, stringSegment);
     }
     var stringOffset = stringSegment.offset;
-    if (hasGC) stringOffset = i64_add(stringOffset, i64_new(gcHeaderSize));
+    if (hasGC) {
+      stringOffset = i64_add(stringOffset, i64_new(gcHeaderSize));
+    } else if (stringInstance.hasRuntimeClassId()) {
+      stringOffset = i64_add(stringOffset, i64_new(program.classIdHeaderSize));
+    }
 
     this.currentType = stringInstance.type;
     if (this.options.isWasm64) {
@@ -6292,6 +8359,198 @@ export class Compiler extends DiagnosticEmitter {
     return this.ensureStaticString(expression.value);
   }
 
+  compileTemplateLiteral(expression: TemplateLiteralExpression): ExpressionRef {
+    var module = this.module;
+    var stringInstance = this.program.stringInstance;
+    if (!stringInstance) {
+      this.error(
+        DiagnosticCode.Cannot_find_name_0,
+        expression.range, "String"
+      );
+      return module.createUnreachable();
+    }
+    var parts = expression.parts;
+    var expressions = expression.expressions;
+    var numExpressions = expressions.length;
+    assert(parts.length == numExpressions + 1);
+    this.currentType = stringInstance.type;
+    if (!numExpressions) return this.ensureStaticString(parts[0]);
+
+    // lower `a${b}c` to `"a" + b.toString() + "c"`, omitting empty parts
+    var concatInstance = assert(stringInstance.lookupOverload(OperatorKind.ADD));
+    var expr: ExpressionRef = 0;
+    if (parts[0].length) expr = this.ensureStaticString(parts[0]);
+    for (let i = 0; i < numExpressions; ++i) {
+      let valueExpr = this.compileTemplateSubstitution(expressions[i], stringInstance);
+      expr = expr
+        ? this.makeCallDirect(concatInstance, [ expr, valueExpr ])
+        : valueExpr;
+      let part = parts[i + 1];
+      if (part.length) {
+        expr = this.makeCallDirect(concatInstance, [ expr, this.ensureStaticString(part) ]);
+      }
+    }
+    this.currentType = stringInstance.type;
+    return expr;
+  }
+
+  /** Compiles an expression substituted into a template literal to a string. */
+  private compileTemplateSubstitution(expression: Expression, stringInstance: Class): ExpressionRef {
+    var module = this.module;
+    var expr = this.compileExpressionRetainType(expression, stringInstance.type, WrapMode.WRAP);
+    var type = this.currentType;
+
+    // strings and objects implementing 'toString', substituting "null" for null references
+    var classReference = type.classReference;
+    if (classReference) {
+      let toStringInstance: Function | null = null;
+      if (classReference != stringInstance) {
+        let current: Class | null = classReference;
+        do {
+          let members = current.members;
+          let member = members ? members.get("toString") : null;
+          if (member) {
+            if (
+              member.kind == ElementKind.FUNCTION_PROTOTYPE &&
+              member.is(CommonFlags.INSTANCE)
+            ) {
+              let instance = this.resolver.resolveFunction(<FunctionPrototype>member, null);
+              if (!instance) return module.createUnreachable();
+              if (
+                instance.signature.requiredParameters == 0 &&
+                instance.signature.returnType.classReference == stringInstance
+              ) {
+                toStringInstance = this.resolveVirtual(instance, expression, type);
+              }
+            }
+            break;
+          }
+          current = current.base;
+        } while (current);
+        if (!toStringInstance) {
+          this.error(
+            DiagnosticCode.Operation_not_supported,
+            expression.range
+          );
+          return module.createUnreachable();
+        }
+      }
+      let currentFunction = this.currentFunction;
+      let nativeType = type.toNativeType();
+      let tempLocal = currentFunction.getTempLocal(type, false);
+      let valueExpr = module.createGetLocal(tempLocal.index, nativeType);
+      if (toStringInstance) valueExpr = this.makeCallDirect(toStringInstance, [ valueExpr ]);
+      currentFunction.freeTempLocal(tempLocal);
+      this.currentType = stringInstance.type;
+      return module.createIf(
+        this.makeIsTrueish(module.createTeeLocal(tempLocal.index, expr), type),
+        valueExpr,
+        this.ensureStaticString("null")
+      );
+    }
+
+    return this.makeBasicToString(expr, type, expression);
+  }
+
+  /** Makes a conversion of a basic value to a string, like when substituted or concatenated. */
+  makeBasicToString(expr: ExpressionRef, type: Type, reportNode: Node): ExpressionRef {
+    var module = this.module;
+
+    // booleans
+    if (type == Type.bool) {
+      return module.createSelect(
+        this.ensureStaticString("true"),
+        this.ensureStaticString("false"),
+        expr
+      );
+    }
+
+    // integers
+    if (type.is(TypeFlags.INTEGER) && !type.is(TypeFlags.REFERENCE)) {
+      let prototype = this.itoaPrototype;
+      if (!prototype) {
+        prototype = this.lookupLibraryFunction("internal/itoa", "itoa", reportNode);
+        if (!prototype) return module.createUnreachable();
+        this.itoaPrototype = prototype;
+      }
+      let instance = this.resolver.resolveFunction(prototype, [ type ]);
+      if (!instance) return module.createUnreachable();
+      return this.makeCallDirect(instance, [ expr ]);
+    }
+
+    // floats
+    if (type.is(TypeFlags.FLOAT)) {
+      let prototype = this.dtoaPrototype;
+      if (!prototype) {
+        prototype = this.lookupLibraryFunction("internal/dtoa", "dtoa", reportNode);
+        if (!prototype) return module.createUnreachable();
+        this.dtoaPrototype = prototype;
+      }
+      let instance = this.resolver.resolveFunction(prototype, [ type ]);
+      if (!instance) return module.createUnreachable();
+      return this.makeCallDirect(instance, [ expr ]);
+    }
+
+    this.error(
+      DiagnosticCode.Operation_not_supported,
+      reportNode.range
+    );
+    return module.createUnreachable();
+  }
+
+  /** Looks up a function of an internal library file, like `itoa` of `internal/itoa`. */
+  private lookupLibraryFunction(path: string, name: string, reportNode: Node): FunctionPrototype | null {
+    var filespace = this.program.elementsLookup.get(FILESPACE_PREFIX + LIBRARY_PREFIX + path);
+    var element = filespace ? (<Filespace>filespace).members.get(name) : null;
+    if (!element) {
+      this.error(
+        DiagnosticCode.Cannot_find_name_0,
+        reportNode.range, name
+      );
+      return null;
+    }
+    assert(element.kind == ElementKind.FUNCTION_PROTOTYPE);
+    return <FunctionPrototype>element;
+  }
+
+  /** Compiles a regular expression literal to a `RegExp` using a program pre-parsed to static memory. */
+  compileRegexpLiteral(expression: RegexpLiteralExpression): ExpressionRef {
+    var module = this.module;
+    var element = this.program.elementsLookup.get("RegExp");
+    var regexpInstance = element && element.kind == ElementKind.CLASS_PROTOTYPE
+      ? this.resolver.resolveClass(<ClassPrototype>element, null)
+      : null;
+    if (!regexpInstance) {
+      this.error(
+        DiagnosticCode.Cannot_find_name_0,
+        expression.range, "RegExp"
+      );
+      return module.createUnreachable();
+    }
+    this.currentType = regexpInstance.type;
+    var parser = new RegexpParser(expression.pattern);
+    var code = parser.parse();
+    if (!code) {
+      this.error(
+        DiagnosticCode.Invalid_regular_expression_0,
+        expression.range, <string>parser.message
+      );
+      return module.createUnreachable();
+    }
+    var numCode = code.length;
+    var values = new Array<ExpressionRef>(numCode);
+    for (let i = 0; i < numCode; ++i) values[i] = module.createI32(code[i]);
+    var operands = [
+      this.options.usizeType.toNativeZero(module), // this
+      this.ensureStaticString(expression.pattern),
+      this.ensureStaticString(expression.patternFlags),
+      this.ensureStaticArray(Type.i32, values)
+    ];
+    var expr = this.makeCallDirect(assert(regexpInstance.constructorInstance), operands);
+    this.currentType = regexpInstance.type;
+    return expr;
+  }
+
   /** Ensures that the specified array exists in static memory and returns a pointer to it. */
   ensureStaticArray(elementType: Type, values: ExpressionRef[]): ExpressionRef {
     var program = this.program;
@@ -6313,7 +8572,7 @@ export class Compiler extends DiagnosticEmitter {
     if (hasGC) {
       buf = new Uint8Array(gcHeaderSize + bufferTotalSize);
       pos = gcHeaderSize;
-      writeI32(ensureGCHook(this, bufferInstance), buf, program.gcHookOffset);
+      writeI32(this.ensureFunctionSegment(ensureGCHook(this, bufferInstance)), buf, program.gcHookOffset);
     } else {
       buf = new Uint8Array(bufferTotalSize);
       pos = 0;
@@ -6401,14 +8660,20 @@ export class Compiler extends DiagnosticEmitter {
     if (hasGC) {
       buf = new Uint8Array(gcHeaderSize + arrayHeaderSize);
       pos = gcHeaderSize;
-      writeI32(ensureGCHook(this, arrayInstance), buf, program.gcHookOffset);
+      writeI32(this.ensureFunctionSegment(ensureGCHook(this, arrayInstance)), buf, program.gcHookOffset);
+      writeI32(arrayInstance.id, buf, pos - 4);
+      this.needsRTTI = true;
+    } else if (arrayInstance.hasRuntimeClassId()) {
+      buf = new Uint8Array(program.classIdHeaderSize + arrayHeaderSize);
+      pos = program.classIdHeaderSize;
+      writeI32(arrayInstance.id, buf, pos - 4);
+      this.needsRTTI = true;
     } else {
       buf = new Uint8Array(arrayHeaderSize);
       pos = 0;
     }
     var arraySegment = this.addMemorySegment(buf);
-    var arrayOffset = arraySegment.offset;
-    if (hasGC) arrayOffset = i64_add(arrayOffset, i64_new(gcHeaderSize));
+    var arrayOffset = i64_add(arraySegment.offset, i64_new(pos));
     this.currentType = arrayInstance.type;
     if (usizeTypeSize == 8) {
       writeI64(bufferOffset, buf, pos + arrayInstance.offsetof("buffer_"));
@@ -6431,8 +8696,17 @@ export class Compiler extends DiagnosticEmitter {
   ): ExpressionRef {
     var module = this.module;
 
-    // find out whether all elements are constant (array is static)
+    // expand spreads of array literals and concatenate any remaining spreads at runtime
+    expressions = this.expandSpreadLiterals(expressions);
     var length = expressions.length;
+    for (let i = 0; i < length; ++i) {
+      let expression = expressions[i];
+      if (expression && expression.kind == NodeKind.SPREAD) {
+        return this.compileArrayLiteralWithSpreads(elementType, expressions, reportNode);
+      }
+    }
+
+    // find out whether all elements are constant (array is static)
     var compiledValues = new Array<ExpressionRef>(length);
     var constantValues = new Array<ExpressionRef>(length);
     var nativeElementType = elementType.toNativeType();
@@ -6504,6 +8778,58 @@ export class Compiler extends DiagnosticEmitter {
     return module.createBlock(null, stmts, nativeArrayType);
   }
 
+  /** Compiles an array literal containing spreads of unknown arity by concatenating its parts. */
+  private compileArrayLiteralWithSpreads(
+    elementType: Type,
+    expressions: (Expression | null)[],
+    reportNode: Node
+  ): ExpressionRef {
+    var module = this.module;
+    var arrayPrototype = assert(this.program.arrayPrototype);
+    var arrayInstance = this.resolver.resolveClass(<ClassPrototype>arrayPrototype, [ elementType ]);
+    if (!arrayInstance) return module.createUnreachable();
+    var arrayType = arrayInstance.type;
+    var concatPrototype = arrayInstance.members ? arrayInstance.members.get("concat") : null;
+    if (!concatPrototype || concatPrototype.kind != ElementKind.FUNCTION_PROTOTYPE) {
+      this.error(
+        DiagnosticCode.Operation_not_supported,
+        reportNode.range
+      );
+      return module.createUnreachable();
+    }
+    var concatInstance = this.resolver.resolveFunction(<FunctionPrototype>concatPrototype, null);
+    if (!concatInstance) return module.createUnreachable();
+
+    // start with the elements preceding the first spread, then append each spread and run of elements
+    var expr: ExpressionRef = 0;
+    var start = 0;
+    var length = expressions.length;
+    for (let i = 0; i < length; ++i) {
+      let expression = expressions[i];
+      if (!expression || expression.kind != NodeKind.SPREAD) continue;
+      if (i > start || !expr) {
+        let partExpr = this.compileArrayLiteral(elementType, expressions.slice(start, i), false, reportNode);
+        expr = expr ? this.makeCallDirect(concatInstance, [ expr, partExpr ]) : partExpr;
+      }
+      expr = this.makeCallDirect(concatInstance, [
+        expr,
+        this.compileExpression(
+          (<SpreadExpression>expression).expression,
+          arrayType,
+          ConversionKind.IMPLICIT,
+          WrapMode.NONE
+        )
+      ]);
+      start = i + 1;
+    }
+    if (start < length) {
+      let partExpr = this.compileArrayLiteral(elementType, expressions.slice(start), false, reportNode);
+      expr = this.makeCallDirect(concatInstance, [ expr, partExpr ]);
+    }
+    this.currentType = arrayType;
+    return expr;
+  }
+
   compileObjectLiteral(expression: ObjectLiteralExpression, contextualType: Type): ExpressionRef {
     var module = this.module;
 
@@ -6588,7 +8914,6 @@ export class Compiler extends DiagnosticEmitter {
 
   compileNewExpression(expression: NewExpression, contextualType: Type): ExpressionRef {
     var module = this.module;
-    var options = this.options;
     var currentFunction = this.currentFunction;
 
     // obtain the class being instantiated
@@ -6627,7 +8952,16 @@ export class Compiler extends DiagnosticEmitter {
       );
     }
     if (!classInstance) return module.createUnreachable();
+    return this.compileInstantiate(classInstance, expression.arguments, expression);
+  }
 
+  /** Compiles the instantiation of the specified class, calling its constructor if present. */
+  compileInstantiate(
+    classInstance: Class,
+    argumentExpressions: Expression[],
+    reportNode: Node
+  ): ExpressionRef {
+    var module = this.module;
     var expr: ExpressionRef;
 
     // traverse to the top-most visible constructor
@@ -6640,13 +8974,13 @@ export class Compiler extends DiagnosticEmitter {
 
     // if a constructor is present, call it with a zero `this`
     if (constructorInstance) {
-      expr = this.compileCallDirect(constructorInstance, expression.arguments, expression,
-        options.usizeType.toNativeZero(module)
+      expr = this.compileCallDirect(constructorInstance, argumentExpressions, reportNode,
+        this.options.usizeType.toNativeZero(module)
       );
 
     // otherwise simply allocate a new instance and initialize its fields
     } else {
-      expr = this.makeAllocate(classInstance, expression);
+      expr = this.makeAllocate(classInstance, reportNode);
     }
 
     this.currentType = classInstance.type;
@@ -6709,13 +9043,25 @@ export class Compiler extends DiagnosticEmitter {
       }
       case ElementKind.FIELD: { // instance field
         let thisExpression = assert(this.resolver.currentThisExpression);
-        assert((<Field>target).memoryOffset >= 0);
         let thisExpr = this.compileExpressionRetainType(
           thisExpression,
           this.options.usizeType,
           WrapMode.NONE
         );
         this.currentType = (<Field>target).type;
+        if (assert((<Field>target).parent).kind == ElementKind.INTERFACE) {
+          // load through the getter dispatching on the runtime class
+          this.ensureVirtualField(<Field>target);
+          return this.makeVirtualFieldAccess(
+            module.createCall(
+              (<Field>target).internalName + "|get",
+              [ thisExpr ],
+              (<Field>target).type.toNativeType()
+            ),
+            (<Field>target).type
+          );
+        }
+        assert((<Field>target).memoryOffset >= 0);
         return module.createLoad(
           (<Field>target).type.byteSize,
           (<Field>target).type.is(TypeFlags.SIGNED | TypeFlags.INTEGER),
@@ -6759,13 +9105,18 @@ export class Compiler extends DiagnosticEmitter {
       let inline = (instance.decoratorFlags & DecoratorFlags.INLINE) != 0;
       if (instance.is(CommonFlags.INSTANCE)) {
         let parent = assert(instance.parent);
-        assert(parent.kind == ElementKind.CLASS);
+        assert(parent.kind == ElementKind.CLASS || parent.kind == ElementKind.INTERFACE);
         let thisExpression = assert(this.resolver.currentThisExpression); //!!!
         let thisExpr = this.compileExpressionRetainType(
           thisExpression,
           this.options.usizeType,
           WrapMode.NONE
         );
+        let virtualInstance = this.resolveVirtual(instance, thisExpression, this.currentType);
+        if (virtualInstance != instance) {
+          instance = virtualInstance;
+          inline = false;
+        }
         this.currentType = signature.returnType;
         return this.compileCallDirect(instance, [], reportNode, thisExpr, inline);
       } else {
@@ -10,6 +10,7 @@ import {
   UnaryOp,
   BinaryOp,
   HostOp,
+  AtomicRMWOp,
   FunctionRef,
   ExpressionRef,
   Index,
@@ -18,6 +19,8 @@ import {
   getFunctionParamCount,
   getFunctionParamType,
   getFunctionResultType,
+  getFunctionVarCount,
+  getFunctionVarType,
   getExpressionId,
   getExpressionType,
   getBlockName,
@@ -30,14 +33,36 @@ import {
   getLoopBody,
   getBreakName,
   getBreakCondition,
+  getSwitchNameCount,
+  getSwitchName,
+  getSwitchDefaultName,
+  getSwitchCondition,
+  getCallTarget,
+  getCallOperandCount,
+  getCallOperand,
+  getCallImportTarget,
+  getCallImportOperandCount,
+  getCallImportOperand,
+  getCallIndirectTarget,
+  getCallIndirectOperandCount,
+  getCallIndirectOperand,
   getGetLocalIndex,
   getSetLocalIndex,
   getSetLocalValue,
+  isTeeLocal,
+  getGetGlobalName,
+  getSetGlobalName,
+  getSetGlobalValue,
+  getLoadBytes,
   getLoadOffset,
   getLoadPtr,
+  isLoadSigned,
+  isLoadAtomic,
+  getStoreBytes,
   getStoreOffset,
   getStorePtr,
   getStoreValue,
+  isStoreAtomic,
   getConstValueI32,
   getConstValueI64Low,
   getConstValueI64High,
@@ -54,10 +79,90 @@ import {
   getDropValue,
   getReturnValue,
   getHostOp,
-  getHostOperand
+  getHostOperand,
+  getAtomicRMWOp,
+  getAtomicRMWBytes,
+  getAtomicRMWOffset,
+  getAtomicRMWPtr,
+  getAtomicRMWValue,
+  getAtomicCmpxchgBytes,
+  getAtomicCmpxchgOffset,
+  getAtomicCmpxchgPtr,
+  getAtomicCmpxchgExpected,
+  getAtomicCmpxchgReplacement,
+  getAtomicWaitPtr,
+  getAtomicWaitExpected,
+  getAtomicWaitTimeout,
+  getAtomicWaitExpectedType,
+  getAtomicWakePtr,
+  getAtomicWakeCount
 } from "./module";
 
-// TODO :-)
+import {
+  Precedence
+} from "./parser";
+
+import {
+  Token,
+  tokenFromKeyword
+} from "./tokenizer";
+
+import {
+  CharCode,
+  isIdentifierStart,
+  isIdentifierPart,
+  readF32,
+  readF64
+} from "./util";
+
+/** Passes normalizing a module's code to statement-level control flow before decompiling it. */
+const normalizePasses: string[] = [
+  "flatten",
+  "simplify-locals-notee-nostructure",
+  "reorder-locals",
+  "remove-unused-names",
+  "merge-blocks",
+  "vacuum"
+];
+
+/** Name of the helper local used to propagate breaks to outer labels. */
+const BREAK_HELPER = "brk";
+
+/** Names that cannot be used as identifiers because the generated code refers to them. */
+const reservedNames: string[] = [
+  BREAK_HELPER, "load", "store", "call_indirect", "select", "unreachable", "clz", "ctz", "popcnt",
+  "rotl", "rotr", "abs", "max", "min", "ceil", "floor", "copysign", "nearest", "reinterpret", "sqrt",
+  "trunc", "memory", "atomic", "NaN", "Infinity", "i8", "u8", "i16", "u16", "i32", "u32", "i64", "u64",
+  "f32", "f64", "bool", "void", "isize", "usize", "string", "HEAP_BASE"
+];
+
+/** Contexts an expression can be decompiled in. */
+const enum Context {
+  /** Operand of another expression that must be of exactly the expression's type. */
+  OPERAND,
+  /** Value converted implicitly to a known target type, like the value of an assignment. */
+  VALUE,
+  /** Condition that is tested for being truthy. */
+  CONDITION
+}
+
+/** A label of a block or loop that breaks can target. */
+class Label {
+  /** Name of the label. */
+  name: string;
+  /** Unique id of the label within its function. */
+  id: i32;
+  /** Whether breaking to this label continues a loop. */
+  isLoop: bool;
+  /** Ids of outer labels targeted by breaks from within this label. */
+  propagated: i32[] = [];
+
+  constructor(name: string, id: i32, isLoop: bool) {
+    this.name = name;
+    this.id = id;
+    this.isLoop = isLoop;
+  }
+}
 
 export class Decompiler {
 
@@ -70,798 +175,1389 @@ export class Decompiler {
   text: string[] = [];
   functionId: i32 = 0;
 
-  constructor() { }
+  /** Identifiers used so far. */
+  private identifiers: Set<string> = new Set();
+  /** Identifiers of functions by internal name. */
+  private functionIdentifiers: Map<string,string> = new Map();
+  /** Identifiers of globals by internal name. */
+  private globalIdentifiers: Map<string,string> = new Map();
+  /** Internal names of functions exported under their identifier. */
+  private exportedFunctions: Set<string> = new Set();
+  /** Names of the current function's locals by index. */
+  private localNames: string[] = [];
+  /** Labels enclosing the current statement, innermost last. */
+  private labels: Label[] = [];
+  /** Number of breaks targeting each label of the current function. */
+  private labelReferences: Map<string,i32> = new Map();
+  /** Next unique label id within the current function. */
+  private nextLabelId: i32 = 1;
+  /** Whether the current function uses the break helper. */
+  private needsBreakHelper: bool = false;
+  /** Current indentation level. */
+  private indentLevel: i32 = 0;
+
+  constructor() {
+    for (let i = 0, k = reservedNames.length; i < k; ++i) {
+      this.identifiers.add(reservedNames[i]);
+    }
+  }
 
-  /** Decompiles a module to an AST that can then be serialized. */
+  /** Decompiles a module to AssemblyScript source. */
   decompile(module: Module): void {
-    throw new Error("not implemented");
+    // emit the binary with a names section and normalize a copy of it, leaving the original as is
+    var previousDebugInfo = module.getDebugInfo();
+    module.setDebugInfo(true);
+    var binary = module.toBinary(null).output;
+    var copy = Module.createFrom(binary);
+    try {
+      copy.runPasses(normalizePasses);
+      this.decompileModule(readModuleInfo(binary), copy);
+    } finally {
+      copy.dispose();
+      module.setDebugInfo(previousDebugInfo);
+    }
+  }
+
+  private decompileModule(info: ModuleInfo, module: Module): void {
+    var functionNames = info.functionNames;
+    var imports = info.imports;
+    var globals = info.globals;
+    var exports = info.exports;
+
+    // assign identifiers, preferring export names
+    var functionImportTypes = new Array<FunctionSignature>();
+    var globalImports = new Array<ImportInfo>();
+    for (let i = 0, k = imports.length; i < k; ++i) {
+      let imprt = imports[i];
+      if (imprt.kind == ExternalKind.FUNCTION) {
+        functionImportTypes.push(info.types[imprt.typeIndex]);
+      } else if (imprt.kind == ExternalKind.GLOBAL) {
+        imprt.internalName = "gimport$" + i.toString(10);
+        this.globalIdentifiers.set(imprt.internalName, this.makeIdentifier(imprt.baseName));
+        globalImports.push(imprt);
+      }
+    }
+    for (let i = 0, k = globals.length; i < k; ++i) {
+      globals[i].internalName = "global$" + i.toString(10);
+    }
+    var exportedGlobals = new Set<string>();
+    for (let i = 0, k = exports.length; i < k; ++i) {
+      let exprt = exports[i];
+      if (exprt.kind == ExternalKind.FUNCTION) {
+        let name = functionNames[exprt.index];
+        if (!this.functionIdentifiers.has(name) && this.isAvailableIdentifier(exprt.name)) {
+          this.identifiers.add(exprt.name);
+          this.functionIdentifiers.set(name, exprt.name);
+          this.exportedFunctions.add(name);
+        }
+      } else if (exprt.kind == ExternalKind.GLOBAL && exprt.index >= globalImports.length) {
+        let name = globals[exprt.index - globalImports.length].internalName;
+        if (!this.globalIdentifiers.has(name) && this.isAvailableIdentifier(exprt.name)) {
+          this.identifiers.add(exprt.name);
+          this.globalIdentifiers.set(name, exprt.name);
+          exportedGlobals.add(name);
+        }
+      }
+    }
+
+    // imports
+    var functionIndex = 0;
+    for (let i = 0, k = imports.length; i < k; ++i) {
+      let imprt = imports[i];
+      switch (imprt.kind) {
+        case ExternalKind.FUNCTION: {
+          let signature = functionImportTypes[functionIndex];
+          this.decompileExternal(imprt);
+          this.push("declare function ");
+          this.push(this.functionIdentifier(functionNames[functionIndex++]));
+          this.push("(");
+          let paramTypes = signature.paramTypes;
+          let counts = [ 0, 0, 0, 0 ];
+          for (let j = 0, l = paramTypes.length; j < l; ++j) {
+            if (j) this.push(", ");
+            this.push(makeLocalName(paramTypes[j], counts));
+            this.push(": ");
+            this.push(nativeTypeToType(paramTypes[j]));
+          }
+          this.push("): ");
+          this.push(nativeTypeToType(signature.resultType));
+          this.push(";\n");
+          break;
+        }
+        case ExternalKind.GLOBAL: {
+          this.decompileExternal(imprt);
+          this.push(imprt.mutable ? "declare var " : "declare const ");
+          this.push(this.globalIdentifier(imprt.internalName));
+          this.push(": ");
+          this.push(nativeTypeToType(imprt.type));
+          this.push(";\n");
+          break;
+        }
+        default: {
+          this.push("// imports ");
+          this.push(imprt.kind == ExternalKind.MEMORY ? "memory" : "table");
+          this.push(" \"");
+          this.push(escapeString(imprt.moduleName));
+          this.push("\" \"");
+          this.push(escapeString(imprt.baseName));
+          this.push("\"\n");
+          break;
+        }
+      }
+    }
+
+    // globals
+    for (let i = 0, k = globals.length; i < k; ++i) {
+      let global = globals[i];
+      if (exportedGlobals.has(global.internalName)) this.push("export ");
+      this.push(global.mutable ? "var " : "const ");
+      this.push(this.globalIdentifier(global.internalName));
+      this.push(": ");
+      this.push(nativeTypeToType(global.type));
+      this.push(" = ");
+      this.push(this.decompileInitializer(global.initializer));
+      this.push(";\n");
+    }
+
+    // memory and data segments, initialized on start because the compiler lays out its own
+    if (info.memoryInitial > 0) {
+      let initial = info.memoryInitial.toString(10);
+      this.push("\nif (memory.size() < ");
+      this.push(initial);
+      this.push(") memory.grow(");
+      this.push(initial);
+      this.push(" - memory.size());\n");
+    }
+    var segments = info.dataSegments;
+    for (let i = 0, k = segments.length; i < k; ++i) {
+      let segment = segments[i];
+      let offset = this.decompileInitializer(segment.offset);
+      let isConstantOffset = segment.offset.globalName == null;
+      let bytes = segment.bytes;
+      let length = bytes.length;
+      let j = 0;
+      while (j < length) {
+        let size = length - j >= 8 ? 8 : 1;
+        let isZero = true;
+        for (let l = 0; l < size; ++l) {
+          if (bytes[j + l]) {
+            isZero = false;
+            break;
+          }
+        }
+        if (!isZero) { // memory is zeroed initially
+          this.push(size == 8 ? "store<i64>(" : "store<u8>(");
+          if (isConstantOffset) {
+            this.push((segment.offset.value + j).toString(10));
+          } else {
+            this.push(offset);
+            if (j) {
+              this.push(" + ");
+              this.push(j.toString(10));
+            }
+          }
+          this.push(", 0x");
+          for (let l = size - 1; l >= 0; --l) this.push(hex(bytes[j + l], 2));
+          this.push(");\n");
+        }
+        j += size;
+      }
+    }
+
+    // the table, which the compiler lays out in the order functions are first referenced as values
+    var table = new Array<i32>(); // function index by table index, -1 if empty
+    var elements = info.elementSegments;
+    for (let i = 0, k = elements.length; i < k; ++i) {
+      let element = elements[i];
+      let functionIndices = element.functionIndices;
+      if (element.offset.globalName != null) { // placed at runtime, so cannot be laid out statically
+        this.push("// table at ");
+        this.push(this.decompileInitializer(element.offset));
+        this.push(": ");
+        for (let j = 0, l = functionIndices.length; j < l; ++j) {
+          if (j) this.push(", ");
+          this.push(this.functionIdentifier(functionNames[functionIndices[j]]));
+        }
+        this.push("\n");
+        continue;
+      }
+      let offset = element.offset.value;
+      while (table.length < offset + functionIndices.length) table.push(-1);
+      for (let j = 0, l = functionIndices.length; j < l; ++j) table[offset + j] = functionIndices[j];
+    }
+    var tableStubs = new Array<string>(); // slots the compiler would not fill on its own
+    if (table.length) {
+      this.push("\n");
+      let referenced = new Set<i32>();
+      for (let i = 0, k = table.length; i < k; ++i) {
+        let functionIndex = table[i];
+        let identifier: string;
+        if (functionIndex < 0) { // empty slot, filled with a function that traps
+          identifier = this.makeIdentifier("table" + i.toString(10));
+          tableStubs.push("function " + identifier + "(): void {\n  unreachable();\n}\n");
+        } else if (referenced.has(functionIndex)) { // repeated function, filled with a wrapper calling it
+          let target = this.functionIdentifier(functionNames[functionIndex]);
+          identifier = this.makeIdentifier(target + "_" + i.toString(10));
+          tableStubs.push(this.makeWrapper(identifier, target, info.types[info.functionTypes[functionIndex]]));
+        } else {
+          identifier = this.functionIdentifier(functionNames[functionIndex]);
+          referenced.add(functionIndex);
+        }
+        this.push(identifier);
+        this.push(";\n");
+      }
+    }
+
+    // functions
+    for (let i = functionImportTypes.length, k = functionNames.length; i < k; ++i) {
+      this.push("\n");
+      this.decompileFunction(module.getFunction(functionNames[i]));
+    }
+    for (let i = 0, k = tableStubs.length; i < k; ++i) {
+      this.push("\n");
+      this.push(tableStubs[i]);
+    }
+
+    // exports not covered by declarations
+    var exportsPushed = false;
+    for (let i = 0, k = exports.length; i < k; ++i) {
+      let exprt = exports[i];
+      let identifier: string;
+      if (exprt.kind == ExternalKind.FUNCTION) {
+        let name = functionNames[exprt.index];
+        if (this.exportedFunctions.has(name) && this.functionIdentifier(name) == exprt.name) continue;
+        identifier = this.functionIdentifier(name);
+      } else if (exprt.kind == ExternalKind.GLOBAL) {
+        let name = exprt.index < globalImports.length
+          ? globalImports[exprt.index].internalName
+          : globals[exprt.index - globalImports.length].internalName;
+        if (exportedGlobals.has(name) && this.globalIdentifier(name) == exprt.name) continue;
+        identifier = this.globalIdentifier(name);
+      } else {
+        continue; // memory and table are exported by the compiler
+      }
+      if (!exportsPushed) {
+        this.push("\n");
+        exportsPushed = true;
+      }
+      if (isIdentifier(exprt.name) && tokenFromKeyword(exprt.name) == Token.INVALID) {
+        this.push("export { ");
+        this.push(identifier);
+        this.push(" as ");
+        this.push(exprt.name);
+        this.push(" };\n");
+      } else {
+        this.push("// exports \"");
+        this.push(escapeString(exprt.name));
+        this.push("\" = ");
+        this.push(identifier);
+        this.push("\n");
+      }
+    }
+
+    // start function
+    if (info.startIndex >= 0) {
+      this.push("\n");
+      this.push(this.functionIdentifier(functionNames[info.startIndex]));
+      this.push("();\n");
+    }
+  }
+
+  /** Makes a function of the specified signature that calls the target function. */
+  private makeWrapper(identifier: string, target: string, signature: FunctionSignature): string {
+    var paramTypes = signature.paramTypes;
+    var resultType = signature.resultType;
+    var counts = [ 0, 0, 0, 0 ];
+    var params = new Array<string>();
+    var args = new Array<string>();
+    for (let i = 0, k = paramTypes.length; i < k; ++i) {
+      let name = makeLocalName(paramTypes[i], counts);
+      params.push(name + ": " + nativeTypeToType(paramTypes[i]));
+      args.push(name);
+    }
+    return "function " + identifier + "(" + params.join(", ") + "): " + nativeTypeToType(resultType) + " {\n" +
+      (resultType == NativeType.None ? "  " : "  return ") + target + "(" + args.join(", ") + ");\n}\n";
+  }
+
+  private decompileExternal(imprt: ImportInfo): void {
+    this.push("@external(\"");
+    this.push(escapeString(imprt.moduleName));
+    this.push("\", \"");
+    this.push(escapeString(imprt.baseName));
+    this.push("\")\n");
+  }
+
+  private decompileInitializer(initializer: InitializerInfo): string {
+    var globalName = initializer.globalName;
+    return globalName != null
+      ? this.globalIdentifier(globalName)
+      : initializer.text;
   }
 
   decompileFunction(func: FunctionRef): void {
     var name = getFunctionName(func) || "$" + this.functionId.toString(10);
     var body = getFunctionBody(func);
+    var resultType = getFunctionResultType(func);
+
+    // name locals by type, like i0, j0, f0 and d0 for i32, i64, f32 and f64 respectively
+    var localNames = new Array<string>();
+    var counts = [ 0, 0, 0, 0 ];
+    var numParams = getFunctionParamCount(func);
+    for (let i: Index = 0; i < numParams; ++i) {
+      localNames.push(makeLocalName(getFunctionParamType(func, i), counts));
+    }
+    var numVars = getFunctionVarCount(func);
+    for (let i: Index = 0; i < numVars; ++i) {
+      localNames.push(makeLocalName(getFunctionVarType(func, i), counts));
+    }
+    this.localNames = localNames;
+    this.labels = [];
+    this.labelReferences = new Map();
+    this.nextLabelId = 1;
+    this.needsBreakHelper = false;
+    this.countLabelReferences(body);
+
+    // decompile the body first to know whether the break helper is used
+    var outerText = this.text;
+    var bodyText = new Array<string>();
+    this.text = bodyText;
+    this.indentLevel = 1;
+    if (resultType != NativeType.None && getExpressionType(body) != NativeType.Unreachable) {
+      if (getExpressionId(body) == ExpressionId.Block && getBlockName(body) == null) {
+        let numChildren = getBlockChildCount(body);
+        for (let i: Index = 0; i < numChildren - 1; ++i) {
+          this.decompileStatement(getBlockChild(body, i));
+        }
+        body = getBlockChild(body, numChildren - 1);
+      }
+      this.indent();
+      this.push("return ");
+      this.decompileExpression(body, Precedence.NONE, Context.VALUE);
+      this.push(";\n");
+    } else {
+      this.decompileStatements(body);
+      if (resultType != NativeType.None && !isReturning(body)) {
+        this.indent();
+        this.push("return unreachable();\n");
+      }
+    }
+    this.text = outerText;
+    this.indentLevel = 0;
+
+    if (this.exportedFunctions.has(name)) this.push("export ");
     this.push("function ");
-    this.push(name);
+    this.push(this.functionIdentifier(name));
     this.push("(");
-     for (let i: Index = 0, k: Index = getFunctionParamCount(func); i < k; ++i) {
-      if (i > 0) this.push(", ");
-      this.push("$");
-      this.push(i.toString(10));
+    for (let i: Index = 0; i < numParams; ++i) {
+      if (i) this.push(", ");
+      this.push(localNames[i]);
       this.push(": ");
       this.push(nativeTypeToType(getFunctionParamType(func, i)));
     }
     this.push("): ");
-    this.push(nativeTypeToType(getFunctionResultType(func)));
-    this.push(" ");
-    if (getExpressionId(body) != ExpressionId.Block) {
-      this.push("{\n");
+    this.push(nativeTypeToType(resultType));
+    this.push(" {\n");
+    if (numVars || this.needsBreakHelper) {
+      this.push("  var ");
+      for (let i: Index = 0; i < numVars; ++i) {
+        if (i) this.push(", ");
+        this.push(localNames[numParams + i]);
+        this.push(": ");
+        this.push(nativeTypeToType(getFunctionVarType(func, i)));
+      }
+      if (this.needsBreakHelper) {
+        if (numVars) this.push(", ");
+        this.push(BREAK_HELPER);
+        this.push(": i32 = 0");
+      }
+      this.push(";\n");
     }
-    this.decompileExpression(body);
-    if (getExpressionId(body) != ExpressionId.Block) {
-      this.push("\n}\n");
+    for (let i = 0, k = bodyText.length; i < k; ++i) {
+      this.push(bodyText[i]);
     }
+    this.push("}\n");
     ++this.functionId;
   }
 
-  decompileExpression(expr: ExpressionRef): void {
-    var id = getExpressionId(expr);
-    var type = getExpressionType(expr);
+  /** Counts the breaks targeting each label within the specified statement. */
+  private countLabelReferences(expr: ExpressionRef): void {
+    switch (getExpressionId(expr)) {
+      case ExpressionId.Block: {
+        for (let i: Index = 0, k = getBlockChildCount(expr); i < k; ++i) {
+          this.countLabelReferences(getBlockChild(expr, i));
+        }
+        break;
+      }
+      case ExpressionId.If: {
+        this.countLabelReferences(getIfTrue(expr));
+        let ifFalse = getIfFalse(expr);
+        if (ifFalse) this.countLabelReferences(ifFalse);
+        break;
+      }
+      case ExpressionId.Loop: {
+        this.countLabelReferences(getLoopBody(expr));
+        break;
+      }
+      case ExpressionId.Break: {
+        this.addLabelReference(getBreakName(expr));
+        break;
+      }
+      case ExpressionId.Switch: {
+        for (let i: Index = 0, k = getSwitchNameCount(expr); i < k; ++i) {
+          this.addLabelReference(getSwitchName(expr, i));
+        }
+        this.addLabelReference(getSwitchDefaultName(expr));
+        break;
+      }
+    }
+  }
+
+  private addLabelReference(name: string | null): void {
+    if (name == null) return;
+    var labelReferences = this.labelReferences;
+    labelReferences.set(name, labelReferences.has(name) ? <i32>labelReferences.get(name) + 1 : 1);
+  }
+
+  private getLabelReferences(name: string | null): i32 {
+    if (name == null) return 0;
+    var labelReferences = this.labelReferences;
+    return labelReferences.has(name) ? <i32>labelReferences.get(name) : 0;
+  }
+
+  /** Decompiles a statement, inlining the children of blocks that aren't targeted by breaks. */
+  private decompileStatements(expr: ExpressionRef): void {
+    if (getExpressionId(expr) == ExpressionId.Block && !this.getLabelReferences(getBlockName(expr))) {
+      for (let i: Index = 0, k = getBlockChildCount(expr); i < k; ++i) {
+        this.decompileStatements(getBlockChild(expr, i));
+      }
+    } else {
+      this.decompileStatement(expr);
+    }
+  }
 
+  /** Decompiles a statement-level expression. */
+  decompileStatement(expr: ExpressionRef): void {
     var nested: ExpressionRef;
-    var string: string | null;
-    var i: Index, k: Index;
 
-    switch (id) {
-      case ExpressionId.Block: { // TODO: magic
-        if ((string = getBlockName(expr)) != null) {
-          this.push(string);
-          this.push(": ");
+    switch (getExpressionId(expr)) {
+      case ExpressionId.Block: {
+        let name = getBlockName(expr);
+        let numChildren = getBlockChildCount(expr);
+        let numReferences = this.getLabelReferences(name);
+        if (!numReferences) {
+          this.decompileStatements(expr);
+          return;
+        }
+        // a block skipped by its only break right at the start is an if
+        if (numReferences == 1 && numChildren > 1) {
+          let first = getBlockChild(expr, 0);
+          if (
+            getExpressionId(first) == ExpressionId.Break &&
+            getBreakName(first) == name &&
+            (nested = getBreakCondition(first))
+          ) {
+            this.indent();
+            this.push("if (!");
+            this.decompileExpression(nested, Precedence.UNARY_PREFIX, Context.CONDITION);
+            this.push(") {\n");
+            ++this.indentLevel;
+            for (let i: Index = 1; i < numChildren; ++i) {
+              this.decompileStatements(getBlockChild(expr, i));
+            }
+            --this.indentLevel;
+            this.indent();
+            this.push("}\n");
+            return;
+          }
         }
-        this.push("{\n");
-        k = getBlockChildCount(expr);
-        for (i = 0; i < k; ++i) {
-          this.decompileExpression(getBlockChild(expr, i));
+        this.indent();
+        this.push("do {\n");
+        this.enterLabel(<string>name, false);
+        for (let i: Index = 0; i < numChildren; ++i) {
+          this.decompileStatements(getBlockChild(expr, i));
         }
-        this.push("}\n");
+        --this.indentLevel;
+        this.indent();
+        this.push("} while (false);\n");
+        this.leaveLabel();
         return;
       }
-      case ExpressionId.If: {
-        if (type == NativeType.None) {
-          this.push("if (");
-          this.decompileExpression(getIfCondition(expr));
-          this.push(") ");
-          this.decompileExpression(getIfTrue(expr));
-          if (nested = getIfFalse(expr)) {
-            this.push(" else ");
-            this.decompileExpression(nested);
+      case ExpressionId.Loop: {
+        let name = getLoopName(expr);
+        let body = getLoopBody(expr);
+        let numReferences = this.getLabelReferences(name);
+        if (!numReferences) {
+          this.decompileStatements(body);
+          return;
+        }
+        let children = new Array<ExpressionRef>();
+        if (getExpressionId(body) == ExpressionId.Block && getBlockName(body) == null) {
+          for (let i: Index = 0, k = getBlockChildCount(body); i < k; ++i) {
+            children.push(getBlockChild(body, i));
           }
         } else {
-          this.decompileExpression(getIfCondition(expr));
-          this.push(" ? ");
-          this.decompileExpression(getIfTrue(expr));
-          this.push(" : ");
-          this.decompileExpression(getIfFalse(expr));
+          children.push(body);
+        }
+        let last = children[children.length - 1];
+        let continues = getExpressionId(last) == ExpressionId.Break && getBreakName(last) == name;
+        if (continues) children.length = children.length - 1;
+        this.indent();
+        if (continues && numReferences == 1 && (nested = getBreakCondition(last))) {
+          // a loop only repeated by a conditional break at its end is a do-while loop
+          this.push("do {\n");
+          this.enterLabel(<string>name, true);
+          for (let i = 0, k = children.length; i < k; ++i) {
+            this.decompileStatements(children[i]);
+          }
+          --this.indentLevel;
+          this.indent();
+          this.push("} while (");
+          this.decompileExpression(nested, Precedence.NONE, Context.CONDITION);
+          this.push(");\n");
+        } else {
+          this.push("while (true) {\n");
+          this.enterLabel(<string>name, true);
+          for (let i = 0, k = children.length; i < k; ++i) {
+            this.decompileStatements(children[i]);
+          }
+          if (continues) {
+            if (nested = getBreakCondition(last)) { // otherwise continues implicitly
+              this.indent();
+              this.push("if (!");
+              this.decompileExpression(nested, Precedence.UNARY_PREFIX, Context.CONDITION);
+              this.push(") break;\n");
+            }
+          } else if (getExpressionType(body) != NativeType.Unreachable) {
+            this.indent();
+            this.push("break;\n");
+          }
+          --this.indentLevel;
+          this.indent();
+          this.push("}\n");
         }
+        this.leaveLabel();
         return;
       }
-      case ExpressionId.Loop: {
-        if ((string = getLoopName(expr)) != null) {
-          this.push(string);
-          this.push(": ");
+      case ExpressionId.If: {
+        this.indent();
+        for (;;) {
+          this.push("if (");
+          this.decompileExpression(getIfCondition(expr), Precedence.NONE, Context.CONDITION);
+          this.push(") {\n");
+          ++this.indentLevel;
+          this.decompileStatements(getIfTrue(expr));
+          --this.indentLevel;
+          this.indent();
+          this.push("}");
+          if (!(nested = getIfFalse(expr))) break;
+          this.push(" else ");
+          if (getExpressionId(nested) == ExpressionId.If) {
+            expr = nested;
+            continue;
+          }
+          this.push("{\n");
+          ++this.indentLevel;
+          this.decompileStatements(nested);
+          --this.indentLevel;
+          this.indent();
+          this.push("}");
+          break;
         }
-        this.push("do ");
-        this.decompileExpression(getLoopBody(expr));
-        this.push("while (0);\n");
+        this.push("\n");
+        return;
       }
       case ExpressionId.Break: {
+        let name = <string>getBreakName(expr);
         if (nested = getBreakCondition(expr)) {
+          this.indent();
           this.push("if (");
-          this.decompileExpression(nested);
-          this.push(") ");
-        }
-        if ((string = getBreakName(expr)) != null) {
-          this.push("break ");
-          this.push(string);
-          this.push(";\n");
+          this.decompileExpression(nested, Precedence.NONE, Context.CONDITION);
+          this.push(") {\n");
+          ++this.indentLevel;
+          this.decompileBreak(name);
+          --this.indentLevel;
+          this.indent();
+          this.push("}\n");
         } else {
-          this.push("break;\n");
+          this.decompileBreak(name);
         }
         return;
       }
-      case ExpressionId.Switch:
-      case ExpressionId.Call:
-      case ExpressionId.CallImport:
-      case ExpressionId.CallIndirect: {
-        throw new Error("not implemented");
-      }
-      case ExpressionId.GetLocal: {
-        this.push("$");
-        this.push(getGetLocalIndex(expr).toString(10));
+      case ExpressionId.Switch: {
+        // group the cases by target, leaving the default target to the default case
+        let defaultName = <string>getSwitchDefaultName(expr);
+        let targets = new Array<string>();
+        let cases = new Array<i32[]>();
+        for (let i: Index = 0, k = getSwitchNameCount(expr); i < k; ++i) {
+          let name = <string>getSwitchName(expr, i);
+          if (name == defaultName) continue;
+          let index = targets.indexOf(name);
+          if (index < 0) {
+            index = targets.length;
+            targets.push(name);
+            cases.push([]);
+          }
+          cases[index].push(i);
+        }
+        if (!targets.length) {
+          this.indent();
+          this.decompileExpression(getSwitchCondition(expr), Precedence.NONE, Context.VALUE);
+          this.push(";\n");
+          this.decompileBreak(defaultName);
+          return;
+        }
+        this.indent();
+        this.push("switch (");
+        this.decompileExpression(getSwitchCondition(expr), Precedence.NONE, Context.VALUE);
+        this.push(") {\n");
+        this.enterLabel(null, false);
+        for (let i = 0, k = targets.length; i < k; ++i) {
+          let indices = cases[i];
+          this.indent();
+          for (let j = 0, l = indices.length; j < l; ++j) {
+            if (j) this.push(" ");
+            this.push("case ");
+            this.push(indices[j].toString(10));
+            this.push(":");
+          }
+          this.push(" {\n");
+          ++this.indentLevel;
+          this.decompileBreak(targets[i]);
+          --this.indentLevel;
+          this.indent();
+          this.push("}\n");
+        }
+        this.indent();
+        this.push("default: {\n");
+        ++this.indentLevel;
+        this.decompileBreak(defaultName);
+        --this.indentLevel;
+        this.indent();
+        this.push("}\n");
+        --this.indentLevel;
+        this.indent();
+        this.push("}\n");
+        this.leaveLabel();
         return;
       }
       case ExpressionId.SetLocal: {
-        this.push("$");
-        this.push(getSetLocalIndex(expr).toString(10));
+        if (isTeeLocal(expr)) break;
+        this.indent();
+        this.push(this.localNames[getSetLocalIndex(expr)]);
         this.push(" = ");
-        this.decompileExpression(getSetLocalValue(expr));
+        this.decompileExpression(getSetLocalValue(expr), Precedence.ASSIGNMENT, Context.VALUE);
+        this.push(";\n");
         return;
       }
-      case ExpressionId.GetGlobal:
       case ExpressionId.SetGlobal: {
-        throw new Error("not implemented");
+        this.indent();
+        this.push(this.globalIdentifier(<string>getSetGlobalName(expr)));
+        this.push(" = ");
+        this.decompileExpression(getSetGlobalValue(expr), Precedence.ASSIGNMENT, Context.VALUE);
+        this.push(";\n");
+        return;
       }
-      case ExpressionId.Load: {
-        this.push("load<");
-        this.push(nativeTypeToType(type));
-        this.push(">(");
-        this.push(getLoadOffset(expr).toString(10));
-        this.push(" + ");
-        this.decompileExpression(getLoadPtr(expr));
-        this.push(")");
+      case ExpressionId.Drop: {
+        this.indent();
+        this.decompileExpression(getDropValue(expr), Precedence.NONE, Context.VALUE);
+        this.push(";\n");
         return;
       }
-      case ExpressionId.Store: {
-        this.push("store<");
-        this.push(nativeTypeToType(type));
-        this.push(">(");
-        this.push(getStoreOffset(expr).toString(10));
-        this.push(" + ");
-        this.decompileExpression(getStorePtr(expr));
-        this.push(", ");
-        this.decompileExpression(getStoreValue(expr));
-        this.push(")");
+      case ExpressionId.Return: {
+        this.indent();
+        if (nested = getReturnValue(expr)) {
+          this.push("return ");
+          this.decompileExpression(nested, Precedence.NONE, Context.VALUE);
+          this.push(";\n");
+        } else {
+          this.push("return;\n");
+        }
+        return;
+      }
+      case ExpressionId.Nop: {
+        return;
+      }
+    }
+    this.indent();
+    this.decompileExpression(expr, Precedence.NONE, Context.VALUE);
+    this.push(";\n");
+  }
+
+  /** Enters a label. Unnamed labels are only targeted by breaks propagated through them. */
+  private enterLabel(name: string | null, isLoop: bool): void {
+    this.labels.push(new Label(name == null ? "" : name, this.nextLabelId++, isLoop));
+    ++this.indentLevel;
+  }
+
+  /** Leaves the innermost label, continuing to propagate breaks targeting outer labels. */
+  private leaveLabel(): void {
+    var labels = this.labels;
+    var label = assert(labels.pop());
+    var propagated = label.propagated;
+    var numPropagated = propagated.length;
+    if (!numPropagated) return;
+    var parent = labels[labels.length - 1];
+    var index = propagated.indexOf(parent.id);
+    if (index >= 0) {
+      this.indent();
+      this.push("if (");
+      this.push(BREAK_HELPER);
+      this.push(" == ");
+      this.push(parent.id.toString(10));
+      this.push(") { ");
+      this.push(BREAK_HELPER);
+      this.push(parent.isLoop ? " = 0; continue; }\n" : " = 0; break; }\n");
+      --numPropagated;
+    }
+    if (numPropagated) {
+      this.indent();
+      this.push("if (");
+      this.push(BREAK_HELPER);
+      this.push(") break;\n");
+      for (let i = 0, k = propagated.length; i < k; ++i) {
+        let id = propagated[i];
+        if (id != parent.id && parent.propagated.indexOf(id) < 0) parent.propagated.push(id);
+      }
+    }
+  }
+
+  /** Decompiles a break to the specified label. */
+  private decompileBreak(name: string): void {
+    var labels = this.labels;
+    var innermost = labels.length - 1;
+    var target = innermost;
+    while (target >= 0 && labels[target].name != name) --target;
+    if (target < 0) throw new Error("unknown label: " + name);
+    var label = labels[target];
+    this.indent();
+    if (target == innermost) {
+      this.push(label.isLoop ? "continue;\n" : "break;\n");
+    } else {
+      this.needsBreakHelper = true;
+      this.push(BREAK_HELPER);
+      this.push(" = ");
+      this.push(label.id.toString(10));
+      this.push("; break;\n");
+      let propagated = labels[innermost].propagated;
+      if (propagated.indexOf(label.id) < 0) propagated.push(label.id);
+    }
+  }
+
+  /** Decompiles an expression, adding parentheses if it binds less tightly than `precedence`. */
+  decompileExpression(
+    expr: ExpressionRef,
+    precedence: Precedence = Precedence.NONE,
+    context: Context = Context.VALUE
+  ): void {
+    var type = getExpressionType(expr);
+    var nested: ExpressionRef;
+
+    switch (getExpressionId(expr)) {
+      case ExpressionId.GetLocal: {
+        this.push(this.localNames[getGetLocalIndex(expr)]);
+        return;
+      }
+      case ExpressionId.SetLocal: { // tee
+        if (precedence > Precedence.ASSIGNMENT) this.push("(");
+        this.push(this.localNames[getSetLocalIndex(expr)]);
+        this.push(" = ");
+        this.decompileExpression(getSetLocalValue(expr), Precedence.ASSIGNMENT, Context.VALUE);
+        if (precedence > Precedence.ASSIGNMENT) this.push(")");
+        return;
+      }
+      case ExpressionId.GetGlobal: {
+        this.push(this.globalIdentifier(<string>getGetGlobalName(expr)));
         return;
       }
       case ExpressionId.Const: {
+        let text: string;
         switch (type) {
           case NativeType.I32: {
-            this.push(getConstValueI32(expr).toString(10));
-            return;
+            text = formatI32(getConstValueI32(expr));
+            break;
           }
           case NativeType.I64: {
-            this.push(
-              i64_to_string(
-                i64_new(
-                  getConstValueI64Low(expr),
-                  getConstValueI64High(expr)
-                )
-              )
-            );
-            return;
+            text = formatI64(getConstValueI64Low(expr), getConstValueI64High(expr), context == Context.VALUE);
+            break;
           }
           case NativeType.F32: {
-            this.push(getConstValueF32(expr).toString(10));
-            return;
+            text = formatF32(getConstValueF32(expr), context == Context.VALUE);
+            break;
           }
           case NativeType.F64: {
-            this.push(getConstValueF64(expr).toString(10));
-            return;
+            text = formatF64(getConstValueF64(expr));
+            break;
           }
+          default: throw new Error("concrete type expected");
         }
-        break;
+        let isPrefixed = text.charCodeAt(0) == CharCode.MINUS || text.charCodeAt(0) == CharCode.LESSTHAN;
+        if (isPrefixed && precedence > Precedence.UNARY_PREFIX) {
+          this.push("(");
+          this.push(text);
+          this.push(")");
+        } else {
+          this.push(text);
+        }
+        return;
+      }
+      case ExpressionId.Load: {
+        let typeName = memoryTypeName(type, getLoadBytes(expr), isLoadSigned(expr));
+        let isCast = context != Context.VALUE && typeName != nativeTypeToType(type);
+        if (isCast) {
+          if (precedence > Precedence.UNARY_PREFIX) this.push("(");
+          this.push("<");
+          this.push(nativeTypeToType(type));
+          this.push(">");
+        }
+        this.push(isLoadAtomic(expr) ? "atomic.load<" : "load<");
+        this.push(typeName);
+        this.push(">(");
+        this.decompileExpression(getLoadPtr(expr), Precedence.COMMA, Context.VALUE);
+        this.decompileOffset(getLoadOffset(expr));
+        this.push(")");
+        if (isCast && precedence > Precedence.UNARY_PREFIX) this.push(")");
+        return;
+      }
+      case ExpressionId.Store: {
+        let value = getStoreValue(expr);
+        let valueType = getExpressionType(value);
+        let bytes = getStoreBytes(expr);
+        this.push(isStoreAtomic(expr) ? "atomic.store<" : "store<");
+        this.push(memoryTypeName(valueType, bytes, true));
+        this.push(">(");
+        this.decompileExpression(getStorePtr(expr), Precedence.COMMA, Context.VALUE);
+        this.push(", ");
+        this.decompileExpression(value, Precedence.COMMA,
+          bytes == nativeTypeSize(valueType)
+            ? Context.VALUE
+            : Context.OPERAND // i.e. i64.store32 from an i64 value
+        );
+        this.decompileOffset(getStoreOffset(expr));
+        this.push(")");
+        return;
       }
       case ExpressionId.Unary: {
-        switch (getUnaryOp(expr)) {
-          case UnaryOp.ClzI32: {
-            this.push("clz<i32>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
-            return;
-          }
-          case UnaryOp.CtzI32: {
-            this.push("ctz<i32>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
-            return;
-          }
-          case UnaryOp.PopcntI32: {
-            this.push("popcnt<i32>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
-            return;
-          }
-          case UnaryOp.NegF32:
-          case UnaryOp.NegF64: {
-            this.push("-");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.AbsF32: {
-            this.push("abs<f32>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
+        this.decompileUnary(expr, precedence, context);
+        return;
+      }
+      case ExpressionId.Binary: {
+        this.decompileBinary(expr, precedence, context);
+        return;
+      }
+      case ExpressionId.Select: {
+        this.push("select<");
+        this.push(nativeTypeToType(type));
+        this.push(">(");
+        this.decompileExpression(getSelectThen(expr), Precedence.COMMA, Context.OPERAND);
+        this.push(", ");
+        this.decompileExpression(getSelectElse(expr), Precedence.COMMA, Context.OPERAND);
+        this.push(", ");
+        this.decompileExpression(getSelectCondition(expr), Precedence.COMMA, Context.CONDITION);
+        this.push(")");
+        return;
+      }
+      case ExpressionId.Call: {
+        this.push(this.functionIdentifier(<string>getCallTarget(expr)));
+        this.push("(");
+        for (let i: Index = 0, k = getCallOperandCount(expr); i < k; ++i) {
+          if (i) this.push(", ");
+          this.decompileExpression(getCallOperand(expr, i), Precedence.COMMA, Context.VALUE);
+        }
+        this.push(")");
+        return;
+      }
+      case ExpressionId.CallImport: {
+        this.push(this.functionIdentifier(<string>getCallImportTarget(expr)));
+        this.push("(");
+        for (let i: Index = 0, k = getCallImportOperandCount(expr); i < k; ++i) {
+          if (i) this.push(", ");
+          this.decompileExpression(getCallImportOperand(expr, i), Precedence.COMMA, Context.VALUE);
+        }
+        this.push(")");
+        return;
+      }
+      case ExpressionId.CallIndirect: {
+        // the signature is inferred from the operands, so these must be of exactly the parameter types
+        this.push("call_indirect<");
+        this.push(nativeTypeToType(type));
+        this.push(">(<u32>");
+        this.decompileExpression(getCallIndirectTarget(expr), Precedence.UNARY_PREFIX, Context.OPERAND);
+        for (let i: Index = 0, k = getCallIndirectOperandCount(expr); i < k; ++i) {
+          this.push(", ");
+          this.decompileExpression(getCallIndirectOperand(expr, i), Precedence.COMMA, Context.OPERAND);
+        }
+        this.push(")");
+        return;
+      }
+      case ExpressionId.Host: {
+        switch (getHostOp(expr)) {
+          case HostOp.CurrentMemory: {
+            this.push("memory.size()");
             return;
           }
-          case UnaryOp.CeilF32: {
-            this.push("ceil<f32>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
-            return;
-          }
-          case UnaryOp.FloorF32: {
-            this.push("floor<f32>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
-            return;
-          }
-          case UnaryOp.TruncF32: {
-            this.push("trunc<f32>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
-            return;
-          }
-          case UnaryOp.NearestF32: {
-            this.push("nearest<i32>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
-            return;
-          }
-          case UnaryOp.SqrtF32: {
-            this.push("sqrt<f32>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
-            return;
-          }
-          case UnaryOp.EqzI32:
-          case UnaryOp.EqzI64: {
-            this.push("!");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.ClzI64: {
-            this.push("clz<i64>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
-            return;
-          }
-          case UnaryOp.CtzI64: {
-            this.push("ctz<i64>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
-            return;
-          }
-          case UnaryOp.PopcntI64: {
-            this.push("popcnt<i64>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
-            return;
-          }
-          case UnaryOp.AbsF64: {
-            this.push("abs<f64>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
-            return;
-          }
-          case UnaryOp.CeilF64: {
-            this.push("ceil<f64>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
-            return;
-          }
-          case UnaryOp.FloorF64: {
-            this.push("floor<f64>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
-            return;
-          }
-          case UnaryOp.TruncF64: {
-            this.push("trunc<f64>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
-            return;
-          }
-          case UnaryOp.NearestF64: {
-            this.push("nearest<f64>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
-            return;
-          }
-          case UnaryOp.SqrtF64: {
-            this.push("sqrt<f64>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
-            return;
-          }
-          case UnaryOp.ExtendI32: {
-            this.push("<i64>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.ExtendU32: {
-            this.push("<i64><u64>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.WrapI64: {
-            this.push("<i32>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.TruncF32ToI32: {
-            this.push("<i32>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.TruncF32ToI64: {
-            this.push("<i64>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.TruncF32ToU32: {
-            this.push("<i32><u32>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.TruncF32ToU64: {
-            this.push("<i64><u64>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.TruncF64ToI32: {
-            this.push("<i32>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.TruncF64ToI64: {
-            this.push("<i64>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.TruncF64ToU32: {
-            this.push("<i32><u32>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.TruncF64ToU64: {
-            this.push("<i64><u64>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.ReinterpretF32: {
-            this.push("reinterpret<f32,i32>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
-            return;
-          }
-          case UnaryOp.ReinterpretF64: {
-            this.push("reinterpret<f64,i64>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
-            return;
-          }
-          case UnaryOp.ConvertI32ToF32: {
-            this.push("<f32>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.ConvertI32ToF64: {
-            this.push("<f64>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.ConvertU32ToF32: {
-            this.push("<f32><u32>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.ConvertU32ToF64: {
-            this.push("<f64><u32>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.ConvertI64ToF32: {
-            this.push("<f32>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.ConvertI64ToF64: {
-            this.push("<f64>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.ConvertU64ToF32: {
-            this.push("<f32><u64>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.ConvertU64ToF64: {
-            this.push("<f64><u64>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.PromoteF32: {
-            this.push("<f64>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.DemoteF64: {
-            this.push("<f32>");
-            this.decompileExpression(getUnaryValue(expr));
-            return;
-          }
-          case UnaryOp.ReinterpretI32: {
-            this.push("reinterpret<i32,f32>(");
-            this.decompileExpression(getUnaryValue(expr));
-            this.push(")");
-            return;
-          }
-          case UnaryOp.ReinterpretI64: {
-            this.push("reinterpret<i64,f64>(");
-            this.decompileExpression(getUnaryValue(expr));
+          case HostOp.GrowMemory: {
+            this.push("memory.grow(");
+            this.decompileExpression(getHostOperand(expr, 0), Precedence.COMMA, Context.VALUE);
             this.push(")");
             return;
           }
         }
         break;
       }
-      case ExpressionId.Binary: { // TODO: precedence
-        switch (getBinaryOp(expr)) {
-          case BinaryOp.AddI32:
-          case BinaryOp.AddI64:
-          case BinaryOp.AddF32:
-          case BinaryOp.AddF64: {
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" + ");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.SubI32:
-          case BinaryOp.SubI64:
-          case BinaryOp.SubF32:
-          case BinaryOp.SubF64: {
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" - ");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.MulI32:
-          case BinaryOp.MulI64:
-          case BinaryOp.MulF32:
-          case BinaryOp.MulF64: {
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" * ");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.DivI32:
-          case BinaryOp.DivI64:
-          case BinaryOp.DivF32:
-          case BinaryOp.DivF64: {
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" / ");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.DivU32: {
-            this.push("<i32>(<u32>");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" / <u32>");
-            this.decompileExpression(getBinaryRight(expr));
-            this.push(")");
-            return;
-          }
-          case BinaryOp.RemI32:
-          case BinaryOp.RemI64: {
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" % ");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.RemU32: {
-            this.push("<i32>(<u32>");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" / <u32>");
-            this.decompileExpression(getBinaryRight(expr));
-            this.push(")");
-            return;
-          }
-          case BinaryOp.AndI32:
-          case BinaryOp.AndI64: {
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" & ");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.OrI32:
-          case BinaryOp.OrI64: {
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" | ");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.XorI32:
-          case BinaryOp.XorI64: {
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" ^ ");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.ShlI32:
-          case BinaryOp.ShlI64: {
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" << ");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.ShrU32:
-          case BinaryOp.ShrU64: {
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" >>> ");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.ShrI32:
-          case BinaryOp.ShrI64: {
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" >> ");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.RotlI32: {
-            this.push("rotl<i32>(");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(", ");
-            this.decompileExpression(getBinaryRight(expr));
-            this.push(")");
-            return;
-          }
-          case BinaryOp.RotrI32: {
-            this.push("rotr<i32>(");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(", ");
-            this.decompileExpression(getBinaryRight(expr));
-            this.push(")");
-            return;
-          }
-          case BinaryOp.EqI32:
-          case BinaryOp.EqI64:
-          case BinaryOp.EqF32:
-          case BinaryOp.EqF64: {
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" == ");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.NeI32:
-          case BinaryOp.NeI64:
-          case BinaryOp.NeF32:
-          case BinaryOp.NeF64: {
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" != ");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.LtI32:
-          case BinaryOp.LtI64:
-          case BinaryOp.LtF32:
-          case BinaryOp.LtF64: {
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" < ");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.LtU32: {
-            this.push("<u32>");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" < <u32>");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.LeI32:
-          case BinaryOp.LeI64:
-          case BinaryOp.LeF32:
-          case BinaryOp.LeF64: {
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" <= ");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.LeU32: {
-            this.push("<u32>");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" <= <u32>");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.GtI32:
-          case BinaryOp.GtI64:
-          case BinaryOp.GtF32:
-          case BinaryOp.GtF64: {
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" > ");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.GtU32: {
-            this.push("<u32>");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" > <u32>");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.GeI32:
-          case BinaryOp.GeI64:
-          case BinaryOp.GeF32:
-          case BinaryOp.GeF64: {
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" >= ");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.GeU32: {
-            this.push("<u32>");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" >= <u32>");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.DivU64: {
-            this.push("<u64>");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" / <u64>");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.RemU64: {
-            this.push("<u64>");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" % <u64>");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.RotlI64: {
-            this.push("rotl<i64>(");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(", ");
-            this.decompileExpression(getBinaryRight(expr));
-            this.push(")");
-            return;
-          }
-          case BinaryOp.RotrI64: {
-            this.push("rotr<i64>(");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(", ");
-            this.decompileExpression(getBinaryRight(expr));
-            this.push(")");
-            return;
-          }
-          case BinaryOp.LtU64: {
-            this.push("<u64>");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" < <u64>");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.LeU64: {
-            this.push("<u64>");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" <= <u64>");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.GtU64: {
-            this.push("<u64>");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" > <u64>");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.GeU64: {
-            this.push("<u64>");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(" >= <u64>");
-            this.decompileExpression(getBinaryRight(expr));
-            return;
-          }
-          case BinaryOp.CopysignF32: {
-            this.push("copysign<f32>(");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(", ");
-            this.decompileExpression(getBinaryRight(expr));
-            this.push(")");
-            return;
-          }
-          case BinaryOp.MinF32: {
-            this.push("min<f32>(");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(", ");
-            this.decompileExpression(getBinaryRight(expr));
-            this.push(")");
-            return;
-          }
-          case BinaryOp.MaxF32: {
-            this.push("max<f32>(");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(", ");
-            this.decompileExpression(getBinaryRight(expr));
-            this.push(")");
-            return;
-          }
-          case BinaryOp.CopysignF64: {
-            this.push("copysign<f64>(");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(", ");
-            this.decompileExpression(getBinaryRight(expr));
-            this.push(")");
-            return;
-          }
-          case BinaryOp.MinF64: {
-            this.push("min<f64>(");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(", ");
-            this.decompileExpression(getBinaryRight(expr));
-            this.push(")");
-            return;
-          }
-          case BinaryOp.MaxF64: {
-            this.push("max<f64>(");
-            this.decompileExpression(getBinaryLeft(expr));
-            this.push(", ");
-            this.decompileExpression(getBinaryRight(expr));
-            this.push(")");
-            return;
-          }
-        }
+      case ExpressionId.Unreachable: {
+        this.push("unreachable()");
         return;
       }
-      case ExpressionId.Select: {
-        this.push("select<");
-        this.push(nativeTypeToType(type));
+      case ExpressionId.AtomicRMW: {
+        this.push("atomic.");
+        this.push(atomicRMWOpToName(getAtomicRMWOp(expr)));
+        this.push("<");
+        this.push(memoryTypeName(type, getAtomicRMWBytes(expr), false));
         this.push(">(");
-        this.decompileExpression(getSelectThen(expr));
+        this.decompileExpression(getAtomicRMWPtr(expr), Precedence.COMMA, Context.VALUE);
         this.push(", ");
-        this.decompileExpression(getSelectElse(expr));
+        this.decompileExpression(getAtomicRMWValue(expr), Precedence.COMMA, Context.VALUE);
+        this.decompileOffset(getAtomicRMWOffset(expr));
+        this.push(")");
+        return;
+      }
+      case ExpressionId.AtomicCmpxchg: {
+        this.push("atomic.cmpxchg<");
+        this.push(memoryTypeName(type, getAtomicCmpxchgBytes(expr), false));
+        this.push(">(");
+        this.decompileExpression(getAtomicCmpxchgPtr(expr), Precedence.COMMA, Context.VALUE);
+        this.push(", ");
+        this.decompileExpression(getAtomicCmpxchgExpected(expr), Precedence.COMMA, Context.VALUE);
         this.push(", ");
-        this.decompileExpression(getSelectCondition(expr));
+        this.decompileExpression(getAtomicCmpxchgReplacement(expr), Precedence.COMMA, Context.VALUE);
+        this.decompileOffset(getAtomicCmpxchgOffset(expr));
         this.push(")");
         return;
       }
-      case ExpressionId.Drop: {
-        this.decompileExpression(getDropValue(expr));
-        this.push(";\n");
+      case ExpressionId.AtomicWait: {
+        this.push("atomic.wait<");
+        this.push(nativeTypeToType(getAtomicWaitExpectedType(expr)));
+        this.push(">(");
+        this.decompileExpression(getAtomicWaitPtr(expr), Precedence.COMMA, Context.VALUE);
+        this.push(", ");
+        this.decompileExpression(getAtomicWaitExpected(expr), Precedence.COMMA, Context.VALUE);
+        this.push(", ");
+        this.decompileExpression(getAtomicWaitTimeout(expr), Precedence.COMMA, Context.VALUE);
+        this.push(")");
         return;
       }
-      case ExpressionId.Return: {
-        if (nested = getReturnValue(expr)) {
-          this.push("return ");
-          this.decompileExpression(nested);
-          this.push(";\n");
+      case ExpressionId.AtomicWake: {
+        this.push("atomic.notify(");
+        this.decompileExpression(getAtomicWakePtr(expr), Precedence.COMMA, Context.VALUE);
+        this.push(", ");
+        this.decompileExpression(getAtomicWakeCount(expr), Precedence.COMMA, Context.VALUE);
+        this.push(")");
+        return;
+      }
+      // control flow is normalized to statements
+    }
+    throw new Error("not implemented");
+  }
+
+  private decompileOffset(offset: u32): void {
+    if (offset) {
+      this.push(", ");
+      this.push(offset.toString(10));
+    }
+  }
+
+  private decompileUnary(expr: ExpressionRef, precedence: Precedence, context: Context): void {
+    var value = getUnaryValue(expr);
+    switch (getUnaryOp(expr)) {
+      case UnaryOp.ClzI32: { this.decompileBuiltin("clz<i32>", value); return; }
+      case UnaryOp.CtzI32: { this.decompileBuiltin("ctz<i32>", value); return; }
+      case UnaryOp.PopcntI32: { this.decompileBuiltin("popcnt<i32>", value); return; }
+      case UnaryOp.NegF32:
+      case UnaryOp.NegF64: {
+        if (precedence > Precedence.UNARY_PREFIX) this.push("(");
+        this.push("-");
+        // avoid emitting a decrement
+        let valueId = getExpressionId(value);
+        if (
+          valueId == ExpressionId.Unary && (
+            getUnaryOp(value) == UnaryOp.NegF32 ||
+            getUnaryOp(value) == UnaryOp.NegF64
+          ) || valueId == ExpressionId.Const
+        ) {
+          this.push("(");
+          this.decompileExpression(value, Precedence.NONE, Context.OPERAND);
+          this.push(")");
         } else {
-          this.push("return;\n");
+          this.decompileExpression(value, Precedence.UNARY_PREFIX, Context.OPERAND);
         }
+        if (precedence > Precedence.UNARY_PREFIX) this.push(")");
         return;
       }
-      case ExpressionId.Host: {
-        switch (getHostOp(expr)) {
-          case HostOp.CurrentMemory: {
-            this.push("memory.size()");
-            return;
-          }
-          case HostOp.GrowMemory: {
-            this.push("memory.grow(");
-            this.decompileExpression(getHostOperand(expr, 0));
-            this.push(")");
-            return;
-          }
-        }
-        break;
+      case UnaryOp.AbsF32: { this.decompileBuiltin("abs<f32>", value); return; }
+      case UnaryOp.CeilF32: { this.decompileBuiltin("ceil<f32>", value); return; }
+      case UnaryOp.FloorF32: { this.decompileBuiltin("floor<f32>", value); return; }
+      case UnaryOp.TruncF32: { this.decompileBuiltin("trunc<f32>", value); return; }
+      case UnaryOp.NearestF32: { this.decompileBuiltin("nearest<f32>", value); return; }
+      case UnaryOp.SqrtF32: { this.decompileBuiltin("sqrt<f32>", value); return; }
+      case UnaryOp.EqzI32:
+      case UnaryOp.EqzI64: {
+        let isCast = context == Context.OPERAND;
+        if (isCast) this.push("<i32>(");
+        else if (precedence > Precedence.UNARY_PREFIX) this.push("(");
+        this.push("!");
+        this.decompileExpression(value, Precedence.UNARY_PREFIX, Context.CONDITION);
+        if (isCast || precedence > Precedence.UNARY_PREFIX) this.push(")");
+        return;
       }
-      case ExpressionId.Nop: {
-        this.push(";\n");
+      case UnaryOp.ClzI64: { this.decompileBuiltin("clz<i64>", value); return; }
+      case UnaryOp.CtzI64: { this.decompileBuiltin("ctz<i64>", value); return; }
+      case UnaryOp.PopcntI64: { this.decompileBuiltin("popcnt<i64>", value); return; }
+      case UnaryOp.AbsF64: { this.decompileBuiltin("abs<f64>", value); return; }
+      case UnaryOp.CeilF64: { this.decompileBuiltin("ceil<f64>", value); return; }
+      case UnaryOp.FloorF64: { this.decompileBuiltin("floor<f64>", value); return; }
+      case UnaryOp.TruncF64: { this.decompileBuiltin("trunc<f64>", value); return; }
+      case UnaryOp.NearestF64: { this.decompileBuiltin("nearest<f64>", value); return; }
+      case UnaryOp.SqrtF64: { this.decompileBuiltin("sqrt<f64>", value); return; }
+      case UnaryOp.ExtendI32: { this.decompileCast("<i64>", value, precedence); return; }
+      case UnaryOp.ExtendU32: { this.decompileCast("<i64><u32>", value, precedence); return; }
+      case UnaryOp.WrapI64: { this.decompileCast("<i32>", value, precedence); return; }
+      case UnaryOp.TruncF32ToI32: { this.decompileCast("<i32>", value, precedence); return; }
+      case UnaryOp.TruncF32ToI64: { this.decompileCast("<i64>", value, precedence); return; }
+      case UnaryOp.TruncF32ToU32: { this.decompileCast("<i32><u32>", value, precedence); return; }
+      case UnaryOp.TruncF32ToU64: { this.decompileCast("<i64><u64>", value, precedence); return; }
+      case UnaryOp.TruncF64ToI32: { this.decompileCast("<i32>", value, precedence); return; }
+      case UnaryOp.TruncF64ToI64: { this.decompileCast("<i64>", value, precedence); return; }
+      case UnaryOp.TruncF64ToU32: { this.decompileCast("<i32><u32>", value, precedence); return; }
+      case UnaryOp.TruncF64ToU64: { this.decompileCast("<i64><u64>", value, precedence); return; }
+      case UnaryOp.ReinterpretF32: { this.decompileBuiltin("reinterpret<i32>", value); return; }
+      case UnaryOp.ReinterpretF64: { this.decompileBuiltin("reinterpret<i64>", value); return; }
+      case UnaryOp.ConvertI32ToF32: { this.decompileCast("<f32>", value, precedence); return; }
+      case UnaryOp.ConvertI32ToF64: { this.decompileCast("<f64>", value, precedence); return; }
+      case UnaryOp.ConvertU32ToF32: { this.decompileCast("<f32><u32>", value, precedence); return; }
+      case UnaryOp.ConvertU32ToF64: { this.decompileCast("<f64><u32>", value, precedence); return; }
+      case UnaryOp.ConvertI64ToF32: { this.decompileCast("<f32>", value, precedence); return; }
+      case UnaryOp.ConvertI64ToF64: { this.decompileCast("<f64>", value, precedence); return; }
+      case UnaryOp.ConvertU64ToF32: { this.decompileCast("<f32><u64>", value, precedence); return; }
+      case UnaryOp.ConvertU64ToF64: { this.decompileCast("<f64><u64>", value, precedence); return; }
+      case UnaryOp.PromoteF32: { this.decompileCast("<f64>", value, precedence); return; }
+      case UnaryOp.DemoteF64: { this.decompileCast("<f32>", value, precedence); return; }
+      case UnaryOp.ReinterpretI32: { this.decompileBuiltin("reinterpret<f32>", value); return; }
+      case UnaryOp.ReinterpretI64: { this.decompileBuiltin("reinterpret<f64>", value); return; }
+      case UnaryOp.ExtendI8ToI32: { this.decompileCast("<i32><i8>", value, precedence); return; }
+      case UnaryOp.ExtendI16ToI32: { this.decompileCast("<i32><i16>", value, precedence); return; }
+      case UnaryOp.ExtendI8ToI64: { this.decompileCast("<i64><i8>", value, precedence); return; }
+      case UnaryOp.ExtendI16ToI64: { this.decompileCast("<i64><i16>", value, precedence); return; }
+      case UnaryOp.ExtendI32ToI64: { this.decompileCast("<i64><i32>", value, precedence); return; }
+    }
+    throw new Error("not implemented");
+  }
+
+  private decompileBinary(expr: ExpressionRef, precedence: Precedence, context: Context): void {
+    var left = getBinaryLeft(expr);
+    var right = getBinaryRight(expr);
+    switch (getBinaryOp(expr)) {
+      case BinaryOp.AddI32:
+      case BinaryOp.AddI64:
+      case BinaryOp.AddF32:
+      case BinaryOp.AddF64: { this.decompileOperator(" + ", Precedence.ADDITIVE, left, right, precedence); return; }
+      case BinaryOp.SubI32:
+      case BinaryOp.SubI64:
+      case BinaryOp.SubF32:
+      case BinaryOp.SubF64: { this.decompileOperator(" - ", Precedence.ADDITIVE, left, right, precedence); return; }
+      case BinaryOp.MulI32:
+      case BinaryOp.MulI64:
+      case BinaryOp.MulF32:
+      case BinaryOp.MulF64: {
+        this.decompileOperator(" * ", Precedence.MULTIPLICATIVE, left, right, precedence);
         return;
       }
-      case ExpressionId.Unreachable: {
-        this.push("unreachable()");
+      case BinaryOp.DivI32:
+      case BinaryOp.DivI64:
+      case BinaryOp.DivF32:
+      case BinaryOp.DivF64: {
+        this.decompileOperator(" / ", Precedence.MULTIPLICATIVE, left, right, precedence);
+        return;
+      }
+      case BinaryOp.DivU32: {
+        this.decompileUnsigned("i32", " / ", Precedence.MULTIPLICATIVE, left, right, precedence, context);
+        return;
+      }
+      case BinaryOp.DivU64: {
+        this.decompileUnsigned("i64", " / ", Precedence.MULTIPLICATIVE, left, right, precedence, context);
+        return;
+      }
+      case BinaryOp.RemI32:
+      case BinaryOp.RemI64: {
+        this.decompileOperator(" % ", Precedence.MULTIPLICATIVE, left, right, precedence);
+        return;
+      }
+      case BinaryOp.RemU32: {
+        this.decompileUnsigned("i32", " % ", Precedence.MULTIPLICATIVE, left, right, precedence, context);
+        return;
+      }
+      case BinaryOp.RemU64: {
+        this.decompileUnsigned("i64", " % ", Precedence.MULTIPLICATIVE, left, right, precedence, context);
+        return;
+      }
+      case BinaryOp.AndI32:
+      case BinaryOp.AndI64: { this.decompileOperator(" & ", Precedence.BITWISE_AND, left, right, precedence); return; }
+      case BinaryOp.OrI32:
+      case BinaryOp.OrI64: { this.decompileOperator(" | ", Precedence.BITWISE_OR, left, right, precedence); return; }
+      case BinaryOp.XorI32:
+      case BinaryOp.XorI64: { this.decompileOperator(" ^ ", Precedence.BITWISE_XOR, left, right, precedence); return; }
+      case BinaryOp.ShlI32:
+      case BinaryOp.ShlI64: { this.decompileOperator(" << ", Precedence.SHIFT, left, right, precedence); return; }
+      case BinaryOp.ShrU32:
+      case BinaryOp.ShrU64: { this.decompileOperator(" >>> ", Precedence.SHIFT, left, right, precedence); return; }
+      case BinaryOp.ShrI32:
+      case BinaryOp.ShrI64: { this.decompileOperator(" >> ", Precedence.SHIFT, left, right, precedence); return; }
+      case BinaryOp.RotlI32: { this.decompileBuiltin("rotl<i32>", left, right); return; }
+      case BinaryOp.RotrI32: { this.decompileBuiltin("rotr<i32>", left, right); return; }
+      case BinaryOp.RotlI64: { this.decompileBuiltin("rotl<i64>", left, right); return; }
+      case BinaryOp.RotrI64: { this.decompileBuiltin("rotr<i64>", left, right); return; }
+      case BinaryOp.EqI32:
+      case BinaryOp.EqI64:
+      case BinaryOp.EqF32:
+      case BinaryOp.EqF64: {
+        this.decompileComparison(" == ", Precedence.EQUALITY, null, left, right, precedence, context);
         return;
       }
-      case ExpressionId.AtomicCmpxchg:
-      case ExpressionId.AtomicRMW:
-      case ExpressionId.AtomicWait:
-      case ExpressionId.AtomicWake:
+      case BinaryOp.NeI32:
+      case BinaryOp.NeI64:
+      case BinaryOp.NeF32:
+      case BinaryOp.NeF64: {
+        this.decompileComparison(" != ", Precedence.EQUALITY, null, left, right, precedence, context);
+        return;
+      }
+      case BinaryOp.LtI32:
+      case BinaryOp.LtI64:
+      case BinaryOp.LtF32:
+      case BinaryOp.LtF64: {
+        this.decompileComparison(" < ", Precedence.RELATIONAL, null, left, right, precedence, context);
+        return;
+      }
+      case BinaryOp.LtU32: {
+        this.decompileComparison(" < ", Precedence.RELATIONAL, "<u32>", left, right, precedence, context);
+        return;
+      }
+      case BinaryOp.LtU64: {
+        this.decompileComparison(" < ", Precedence.RELATIONAL, "<u64>", left, right, precedence, context);
+        return;
+      }
+      case BinaryOp.LeI32:
+      case BinaryOp.LeI64:
+      case BinaryOp.LeF32:
+      case BinaryOp.LeF64: {
+        this.decompileComparison(" <= ", Precedence.RELATIONAL, null, left, right, precedence, context);
+        return;
+      }
+      case BinaryOp.LeU32: {
+        this.decompileComparison(" <= ", Precedence.RELATIONAL, "<u32>", left, right, precedence, context);
+        return;
+      }
+      case BinaryOp.LeU64: {
+        this.decompileComparison(" <= ", Precedence.RELATIONAL, "<u64>", left, right, precedence, context);
+        return;
+      }
+      case BinaryOp.GtI32:
+      case BinaryOp.GtI64:
+      case BinaryOp.GtF32:
+      case BinaryOp.GtF64: {
+        this.decompileComparison(" > ", Precedence.RELATIONAL, null, left, right, precedence, context);
+        return;
+      }
+      case BinaryOp.GtU32: {
+        this.decompileComparison(" > ", Precedence.RELATIONAL, "<u32>", left, right, precedence, context);
+        return;
+      }
+      case BinaryOp.GtU64: {
+        this.decompileComparison(" > ", Precedence.RELATIONAL, "<u64>", left, right, precedence, context);
+        return;
+      }
+      case BinaryOp.GeI32:
+      case BinaryOp.GeI64:
+      case BinaryOp.GeF32:
+      case BinaryOp.GeF64: {
+        this.decompileComparison(" >= ", Precedence.RELATIONAL, null, left, right, precedence, context);
+        return;
+      }
+      case BinaryOp.GeU32: {
+        this.decompileComparison(" >= ", Precedence.RELATIONAL, "<u32>", left, right, precedence, context);
+        return;
+      }
+      case BinaryOp.GeU64: {
+        this.decompileComparison(" >= ", Precedence.RELATIONAL, "<u64>", left, right, precedence, context);
+        return;
+      }
+      case BinaryOp.CopysignF32: { this.decompileBuiltin("copysign<f32>", left, right); return; }
+      case BinaryOp.MinF32: { this.decompileBuiltin("min<f32>", left, right); return; }
+      case BinaryOp.MaxF32: { this.decompileBuiltin("max<f32>", left, right); return; }
+      case BinaryOp.CopysignF64: { this.decompileBuiltin("copysign<f64>", left, right); return; }
+      case BinaryOp.MinF64: { this.decompileBuiltin("min<f64>", left, right); return; }
+      case BinaryOp.MaxF64: { this.decompileBuiltin("max<f64>", left, right); return; }
     }
     throw new Error("not implemented");
   }
 
+  /** Decompiles a left-associative binary operator. */
+  private decompileOperator(
+    operator: string,
+    operatorPrecedence: Precedence,
+    left: ExpressionRef,
+    right: ExpressionRef,
+    precedence: Precedence
+  ): void {
+    if (precedence > operatorPrecedence) this.push("(");
+    this.decompileLeftOperand(left, operatorPrecedence);
+    this.push(operator);
+    this.decompileExpression(right, operatorPrecedence + 1, Context.OPERAND);
+    if (precedence > operatorPrecedence) this.push(")");
+  }
+
+  /** Decompiles the left operand of a binary operator, which determines the type of the right operand. */
+  private decompileLeftOperand(left: ExpressionRef, operatorPrecedence: Precedence): void {
+    // the left operand is compiled with the contextual type of the operation, like `bool` in a
+    // condition, so an `i32` constant must be typed explicitly
+    if (getExpressionId(left) == ExpressionId.Const && getExpressionType(left) == NativeType.I32) {
+      this.push("<i32>");
+      this.decompileExpression(left, Precedence.UNARY_PREFIX, Context.OPERAND);
+    } else {
+      this.decompileExpression(left, operatorPrecedence, Context.OPERAND);
+    }
+  }
+
+  /** Decompiles an unsigned binary operator, converting the unsigned result back to signed if necessary. */
+  private decompileUnsigned(
+    typeName: string,
+    operator: string,
+    operatorPrecedence: Precedence,
+    left: ExpressionRef,
+    right: ExpressionRef,
+    precedence: Precedence,
+    context: Context
+  ): void {
+    var unsignedCast = typeName == "i64" ? "<u64>" : "<u32>";
+    var isCast = context != Context.VALUE;
+    if (isCast) {
+      this.push("<");
+      this.push(typeName);
+      this.push(">(");
+    } else if (precedence > operatorPrecedence) {
+      this.push("(");
+    }
+    this.push(unsignedCast);
+    this.decompileExpression(left, Precedence.UNARY_PREFIX, Context.OPERAND);
+    this.push(operator);
+    this.push(unsignedCast);
+    this.decompileExpression(right, Precedence.UNARY_PREFIX, Context.OPERAND);
+    if (isCast || precedence > operatorPrecedence) this.push(")");
+  }
+
+  /** Decompiles a comparison, converting the resulting `bool` to `i32` if used as an operand. */
+  private decompileComparison(
+    operator: string,
+    operatorPrecedence: Precedence,
+    unsignedCast: string | null,
+    left: ExpressionRef,
+    right: ExpressionRef,
+    precedence: Precedence,
+    context: Context
+  ): void {
+    var isCast = context == Context.OPERAND;
+    if (isCast) {
+      this.push("<i32>(");
+    } else if (precedence > operatorPrecedence) {
+      this.push("(");
+    }
+    if (unsignedCast != null) {
+      this.push(unsignedCast);
+      this.decompileExpression(left, Precedence.UNARY_PREFIX, Context.OPERAND);
+      this.push(operator);
+      this.push(unsignedCast);
+      this.decompileExpression(right, Precedence.UNARY_PREFIX, Context.OPERAND);
+    } else {
+      this.decompileLeftOperand(left, operatorPrecedence);
+      this.push(operator);
+      this.decompileExpression(right, operatorPrecedence + 1, Context.OPERAND);
+    }
+    if (isCast || precedence > operatorPrecedence) this.push(")");
+  }
+
+  private decompileCast(cast: string, value: ExpressionRef, precedence: Precedence): void {
+    if (precedence > Precedence.UNARY_PREFIX) this.push("(");
+    this.push(cast);
+    this.decompileExpression(value, Precedence.UNARY_PREFIX, Context.OPERAND);
+    if (precedence > Precedence.UNARY_PREFIX) this.push(")");
+  }
+
+  private decompileBuiltin(name: string, operand0: ExpressionRef, operand1: ExpressionRef = 0): void {
+    this.push(name);
+    this.push("(");
+    this.decompileExpression(operand0, Precedence.COMMA, Context.OPERAND);
+    if (operand1) {
+      this.push(", ");
+      this.decompileExpression(operand1, Precedence.COMMA, Context.OPERAND);
+    }
+    this.push(")");
+  }
+
+  /** Gets the identifier of the function of the specified name. */
+  private functionIdentifier(name: string): string {
+    var functionIdentifiers = this.functionIdentifiers;
+    if (functionIdentifiers.has(name)) return <string>functionIdentifiers.get(name);
+    var identifier = this.makeIdentifier(name);
+    functionIdentifiers.set(name, identifier);
+    return identifier;
+  }
+
+  /** Gets the identifier of the global of the specified name. */
+  private globalIdentifier(name: string): string {
+    var globalIdentifiers = this.globalIdentifiers;
+    if (globalIdentifiers.has(name)) return <string>globalIdentifiers.get(name);
+    var identifier = this.makeIdentifier(name);
+    globalIdentifiers.set(name, identifier);
+    return identifier;
+  }
+
+  /** Tests if the specified name can be used as an identifier as is. */
+  private isAvailableIdentifier(name: string): bool {
+    return isIdentifier(name)
+        && !this.identifiers.has(name)
+        && tokenFromKeyword(name) == Token.INVALID
+        && !isLocalName(name);
+  }
+
+  /** Makes a unique identifier from the specified name. */
+  private makeIdentifier(name: string): string {
+    var identifier = name;
+    if (!isIdentifier(identifier)) {
+      let chars = new Array<string>();
+      for (let i = 0, k = name.length; i < k; ++i) {
+        let c = name.charCodeAt(i);
+        if (isIdentifierPart(c) && c <= 0x7f) {
+          chars.push(name.charAt(i));
+        } else {
+          chars.push("_");
+        }
+      }
+      identifier = chars.join("");
+      if (!identifier.length || !isIdentifierStart(identifier.charCodeAt(0))) identifier = "_" + identifier;
+    }
+    if (tokenFromKeyword(identifier) != Token.INVALID || isLocalName(identifier)) identifier += "_";
+    var identifiers = this.identifiers;
+    if (identifiers.has(identifier)) {
+      let i = 1;
+      while (identifiers.has(identifier + "_" + i.toString(10))) ++i;
+      identifier += "_" + i.toString(10);
+    }
+    identifiers.add(identifier);
+    return identifier;
+  }
+
+  private indent(): void {
+    for (let i = 0; i < this.indentLevel; ++i) this.push("  ");
+  }
+
   private push(text: string): void {
     // mostly here so we can add debugging if necessary
     this.text.push(text);
@@ -886,3 +1582,525 @@ function nativeTypeToType(type: NativeType): string {
     default: throw new Error("unexpected type");
   }
 }
+
+function nativeTypeSize(type: NativeType): i32 {
+  switch (type) {
+    case NativeType.I32:
+    case NativeType.F32: return 4;
+    case NativeType.I64:
+    case NativeType.F64: return 8;
+    default: throw new Error("concrete type expected");
+  }
+}
+
+/** Gets the name of the type a memory access of the specified native type operates on. */
+function memoryTypeName(type: NativeType, bytes: i32, signed: bool): string {
+  if (bytes < nativeTypeSize(type)) {
+    switch (bytes) {
+      case 1: return signed ? "i8" : "u8";
+      case 2: return signed ? "i16" : "u16";
+      case 4: return signed ? "i32" : "u32";
+    }
+  }
+  return nativeTypeToType(type);
+}
+
+function atomicRMWOpToName(op: AtomicRMWOp): string {
+  switch (op) {
+    case AtomicRMWOp.Add: return "add";
+    case AtomicRMWOp.Sub: return "sub";
+    case AtomicRMWOp.And: return "and";
+    case AtomicRMWOp.Or: return "or";
+    case AtomicRMWOp.Xor: return "xor";
+    case AtomicRMWOp.Xchg: return "xchg";
+    default: throw new Error("unexpected atomic operation");
+  }
+}
+
+/** Makes the name of the next local of the specified type, counting locals per type. */
+function makeLocalName(type: NativeType, counts: i32[]): string {
+  var index: i32;
+  var prefix: string;
+  switch (type) {
+    case NativeType.I32: { index = 0; prefix = "i"; break; }
+    case NativeType.I64: { index = 1; prefix = "j"; break; }
+    case NativeType.F32: { index = 2; prefix = "f"; break; }
+    case NativeType.F64: { index = 3; prefix = "d"; break; }
+    default: throw new Error("concrete type expected");
+  }
+  return prefix + (counts[index]++).toString(10);
+}
+
+/** Tests if the specified name follows the naming scheme of locals. */
+function isLocalName(name: string): bool {
+  var length = name.length;
+  if (length < 2) return false;
+  switch (name.charCodeAt(0)) {
+    case CharCode.i:
+    case CharCode.j:
+    case CharCode.f:
+    case CharCode.d: break;
+    default: return false;
+  }
+  for (let i = 1; i < length; ++i) {
+    let c = name.charCodeAt(i);
+    if (c < CharCode._0 || c > CharCode._9) return false;
+  }
+  return true;
+}
+
+/** Tests if the specified name is a valid identifier. */
+function isIdentifier(name: string): bool {
+  var length = name.length;
+  if (!length || !isIdentifierStart(name.charCodeAt(0))) return false;
+  for (let i = 1; i < length; ++i) {
+    if (!isIdentifierPart(name.charCodeAt(i))) return false;
+  }
+  return true;
+}
+
+/** Tests if the specified statement always returns, as required at the end of a function. */
+function isReturning(expr: ExpressionRef): bool {
+  switch (getExpressionId(expr)) {
+    case ExpressionId.Return: return true;
+    case ExpressionId.Block: {
+      let numChildren = getBlockChildCount(expr);
+      return getBlockName(expr) == null && numChildren > 0 && isReturning(getBlockChild(expr, numChildren - 1));
+    }
+    case ExpressionId.If: {
+      let ifFalse = getIfFalse(expr);
+      return ifFalse != 0 && isReturning(getIfTrue(expr)) && isReturning(ifFalse);
+    }
+  }
+  return false;
+}
+
+function formatI32(value: i32): string {
+  return value == i32.MIN_VALUE
+    ? "<i32>0x80000000"
+    : value.toString(10);
+}
+
+function formatI64(low: i32, high: i32, isContextual: bool): string {
+  var value = i64_new(low, high);
+  if (i64_eq(value, i64_new(0, 0x80000000))) return "<i64>0x8000000000000000";
+  var text = i64_to_string(value);
+  return isContextual ? text : "<i64>" + text;
+}
+
+function formatF32(value: f32, isContextual: bool): string {
+  var text = formatF64(value);
+  return isContextual ? text : "<f32>" + text;
+}
+
+function formatF64(value: f64): string {
+  if (isNaN(value)) return "NaN";
+  if (!isFinite(value)) return value < 0 ? "-Infinity" : "Infinity";
+  if (value == 0) return 1 / value < 0 ? "-0.0" : "0.0";
+  var text = value.toString();
+  // make sure that the literal is a float
+  for (let i = 0, k = text.length; i < k; ++i) {
+    let c = text.charCodeAt(i);
+    if (c == CharCode.DOT || c == CharCode.e) return text;
+  }
+  return text + ".0";
+}
+
+function escapeString(text: string): string {
+  var chars = new Array<string>();
+  for (let i = 0, k = text.length; i < k; ++i) {
+    let c = text.charCodeAt(i);
+    if (c == CharCode.DOUBLEQUOTE || c == CharCode.BACKSLASH) {
+      chars.push("\\");
+      chars.push(text.charAt(i));
+    } else if (c < 0x20 || c > 0x7e) {
+      chars.push(c <= 0xff ? "\\x" + hex(c, 2) : "\\u" + hex(c, 4));
+    } else {
+      chars.push(text.charAt(i));
+    }
+  }
+  return chars.join("");
+}
+
+function hex(value: i32, digits: i32): string {
+  var text = value.toString(16);
+  while (text.length < digits) text = "0" + text;
+  return text;
+}
+
+// binary structure
+
+/** Kinds of external elements as encoded in a binary. */
+const enum ExternalKind {
+  FUNCTION = 0,
+  TABLE = 1,
+  MEMORY = 2,
+  GLOBAL = 3
+}
+
+/** Section ids as encoded in a binary. */
+const enum SectionId {
+  CUSTOM = 0,
+  TYPE = 1,
+  IMPORT = 2,
+  FUNCTION = 3,
+  TABLE = 4,
+  MEMORY = 5,
+  GLOBAL = 6,
+  EXPORT = 7,
+  START = 8,
+  ELEMENT = 9,
+  CODE = 10,
+  DATA = 11
+}
+
+/** A function signature read from the type section. */
+class FunctionSignature {
+  paramTypes: NativeType[] = [];
+  resultType: NativeType = NativeType.None;
+}
+
+/** A constant initializer expression. */
+class InitializerInfo {
+  /** Decompiled constant, if a constant. */
+  text: string = "";
+  /** Value of an `i32` constant. */
+  value: i32 = 0;
+  /** Internal name of the global, if a global. */
+  globalName: string | null = null;
+}
+
+class ImportInfo {
+  moduleName: string;
+  baseName: string;
+  kind: ExternalKind;
+  /** Type index of an imported function. */
+  typeIndex: i32 = -1;
+  /** Type of an imported global. */
+  type: NativeType = NativeType.None;
+  mutable: bool = false;
+  /** Internal name of an imported global as named when reading the binary. */
+  internalName: string = "";
+}
+
+class GlobalInfo {
+  type: NativeType;
+  mutable: bool;
+  initializer: InitializerInfo;
+  /** Internal name as named when reading the binary. */
+  internalName: string = "";
+}
+
+class ExportInfo {
+  name: string;
+  kind: ExternalKind;
+  index: i32;
+}
+
+class SegmentInfo {
+  offset: InitializerInfo;
+  bytes: Uint8Array;
+}
+
+class ElementSegmentInfo {
+  offset: InitializerInfo;
+  functionIndices: i32[];
+}
+
+/** The structure of a module not exposed by its IR. */
+class ModuleInfo {
+  types: FunctionSignature[] = [];
+  imports: ImportInfo[] = [];
+  /** Internal names of all functions, including imports, by function index. */
+  functionNames: string[] = [];
+  /** Type indices of all functions, including imports, by function index. */
+  functionTypes: i32[] = [];
+  globals: GlobalInfo[] = [];
+  exports: ExportInfo[] = [];
+  dataSegments: SegmentInfo[] = [];
+  elementSegments: ElementSegmentInfo[] = [];
+  memoryInitial: i32 = -1;
+  startIndex: i32 = -1;
+}
+
+/** Reads the structure of a module from its binary. */
+function readModuleInfo(binary: Uint8Array): ModuleInfo {
+  var info = new ModuleInfo();
+  var reader = new BinaryReader(binary);
+  var numFunctionImports = 0;
+  var globalImportNames = new Array<string>();
+  reader.offset = 8; // magic and version
+  while (reader.offset < binary.length) {
+    let id = reader.readU8();
+    let size = reader.readVarU32();
+    let end = reader.offset + size;
+    switch (id) {
+      case SectionId.TYPE: {
+        for (let i = 0, k = reader.readVarU32(); i < k; ++i) {
+          let signature = new FunctionSignature();
+          reader.readU8(); // func
+          for (let j = 0, l = reader.readVarU32(); j < l; ++j) {
+            signature.paramTypes.push(reader.readValueType());
+          }
+          if (reader.readVarU32()) signature.resultType = reader.readValueType();
+          info.types.push(signature);
+        }
+        break;
+      }
+      case SectionId.IMPORT: {
+        for (let i = 0, k = reader.readVarU32(); i < k; ++i) {
+          let imprt = new ImportInfo();
+          imprt.moduleName = reader.readString();
+          imprt.baseName = reader.readString();
+          imprt.kind = <ExternalKind>reader.readU8();
+          switch (imprt.kind) {
+            case ExternalKind.FUNCTION: {
+              imprt.typeIndex = reader.readVarU32();
+              info.functionNames.push(numFunctionImports.toString(10));
+              info.functionTypes.push(imprt.typeIndex);
+              ++numFunctionImports;
+              break;
+            }
+            case ExternalKind.TABLE: {
+              reader.readU8(); // anyfunc
+              reader.readLimits();
+              break;
+            }
+            case ExternalKind.MEMORY: {
+              reader.readLimits();
+              break;
+            }
+            case ExternalKind.GLOBAL: {
+              imprt.type = reader.readValueType();
+              imprt.mutable = reader.readU8() != 0;
+              globalImportNames.push("gimport$" + i.toString(10));
+              break;
+            }
+          }
+          info.imports.push(imprt);
+        }
+        break;
+      }
+      case SectionId.FUNCTION: {
+        for (let i = 0, k = reader.readVarU32(); i < k; ++i) {
+          info.functionTypes.push(reader.readVarU32());
+          info.functionNames.push((numFunctionImports + i).toString(10));
+        }
+        break;
+      }
+      case SectionId.MEMORY: {
+        if (reader.readVarU32()) {
+          let limits = reader.readLimits();
+          info.memoryInitial = limits[0];
+        }
+        break;
+      }
+      case SectionId.GLOBAL: {
+        for (let i = 0, k = reader.readVarU32(); i < k; ++i) {
+          let global = new GlobalInfo();
+          global.type = reader.readValueType();
+          global.mutable = reader.readU8() != 0;
+          global.initializer = reader.readInitializer(globalImportNames);
+          info.globals.push(global);
+        }
+        break;
+      }
+      case SectionId.EXPORT: {
+        for (let i = 0, k = reader.readVarU32(); i < k; ++i) {
+          let exprt = new ExportInfo();
+          exprt.name = reader.readString();
+          exprt.kind = <ExternalKind>reader.readU8();
+          exprt.index = reader.readVarU32();
+          info.exports.push(exprt);
+        }
+        break;
+      }
+      case SectionId.START: {
+        info.startIndex = reader.readVarU32();
+        break;
+      }
+      case SectionId.ELEMENT: {
+        for (let i = 0, k = reader.readVarU32(); i < k; ++i) {
+          let segment = new ElementSegmentInfo();
+          reader.readVarU32(); // table index
+          segment.offset = reader.readInitializer(globalImportNames);
+          segment.functionIndices = [];
+          for (let j = 0, l = reader.readVarU32(); j < l; ++j) {
+            segment.functionIndices.push(reader.readVarU32());
+          }
+          info.elementSegments.push(segment);
+        }
+        break;
+      }
+      case SectionId.DATA: {
+        for (let i = 0, k = reader.readVarU32(); i < k; ++i) {
+          let segment = new SegmentInfo();
+          reader.readVarU32(); // memory index
+          segment.offset = reader.readInitializer(globalImportNames);
+          let length = reader.readVarU32();
+          let bytes = new Uint8Array(length);
+          for (let j = 0; j < length; ++j) bytes[j] = reader.readU8();
+          segment.bytes = bytes;
+          info.dataSegments.push(segment);
+        }
+        break;
+      }
+      case SectionId.CUSTOM: {
+        if (reader.readString() != "name") break;
+        while (reader.offset < end) {
+          let subsectionId = reader.readU8();
+          let subsectionEnd = reader.readVarU32();
+          subsectionEnd += reader.offset;
+          if (subsectionId == 1) { // function names
+            for (let i = 0, k = reader.readVarU32(); i < k; ++i) {
+              let index = reader.readVarU32();
+              info.functionNames[index] = reader.readString();
+            }
+          }
+          reader.offset = subsectionEnd;
+        }
+        break;
+      }
+    }
+    reader.offset = end;
+  }
+  return info;
+}
+
+/** Reads the primitive values of a binary. */
+class BinaryReader {
+  buffer: Uint8Array;
+  offset: i32 = 0;
+
+  constructor(buffer: Uint8Array) {
+    this.buffer = buffer;
+  }
+
+  readU8(): u32 {
+    return this.buffer[this.offset++];
+  }
+
+  readVarU32(): u32 {
+    var value: u32 = 0;
+    var shift: u32 = 0;
+    var b: u32;
+    do {
+      b = this.readU8();
+      value |= (b & 0x7f) << shift;
+      shift += 7;
+    } while (b & 0x80);
+    return value;
+  }
+
+  readVarI32(): i32 {
+    var value: i32 = 0;
+    var shift: i32 = 0;
+    var b: u32;
+    do {
+      b = this.readU8();
+      value |= (b & 0x7f) << shift;
+      shift += 7;
+    } while (b & 0x80);
+    if (shift < 32 && (b & 0x40)) value |= -1 << shift;
+    return value;
+  }
+
+  readVarI64(): I64 {
+    var low: i32 = 0;
+    var high: i32 = 0;
+    var shift: i32 = 0;
+    var b: u32;
+    do {
+      b = this.readU8();
+      let bits = b & 0x7f;
+      if (shift < 32) {
+        low |= bits << shift;
+        if (shift > 25) high |= bits >>> (32 - shift);
+      } else if (shift < 64) {
+        high |= bits << (shift - 32);
+      }
+      shift += 7;
+    } while (b & 0x80);
+    if (shift < 64 && (b & 0x40)) {
+      if (shift < 32) {
+        low |= -1 << shift;
+        high = -1;
+      } else {
+        high |= -1 << (shift - 32);
+      }
+    }
+    return i64_new(low, high);
+  }
+
+  readValueType(): NativeType {
+    switch (this.readU8()) {
+      case 0x7f: return NativeType.I32;
+      case 0x7e: return NativeType.I64;
+      case 0x7d: return NativeType.F32;
+      case 0x7c: return NativeType.F64;
+      default: throw new Error("unexpected value type");
+    }
+  }
+
+  /** Reads resizable limits as a tuple of initial and maximum, which is `-1` if omitted. */
+  readLimits(): i32[] {
+    var flags = this.readVarU32();
+    var initial = this.readVarU32();
+    return [ initial, flags & 1 ? <i32>this.readVarU32() : -1 ];
+  }
+
+  readString(): string {
+    var length = this.readVarU32();
+    var buffer = this.buffer;
+    var end = this.offset + length;
+    var codePoints = new Array<i32>();
+    while (this.offset < end) {
+      let cp = <i32>buffer[this.offset++];
+      if (cp >= 0xf0) {
+        cp = (cp & 7) << 18 | (buffer[this.offset++] & 63) << 12;
+        cp |= (buffer[this.offset++] & 63) << 6 | buffer[this.offset++] & 63;
+      } else if (cp >= 0xe0) {
+        cp = (cp & 15) << 12 | (buffer[this.offset++] & 63) << 6 | buffer[this.offset++] & 63;
+      } else if (cp >= 0xc0) {
+        cp = (cp & 31) << 6 | buffer[this.offset++] & 63;
+      }
+      codePoints.push(cp);
+    }
+    return String.fromCodePoints(codePoints);
+  }
+
+  /** Reads a constant initializer expression, naming imported globals as given. */
+  readInitializer(globalImportNames: string[]): InitializerInfo {
+    var initializer = new InitializerInfo();
+    switch (this.readU8()) {
+      case 0x41: { // i32.const
+        let value = this.readVarI32();
+        initializer.text = formatI32(value);
+        initializer.value = value;
+        break;
+      }
+      case 0x42: { // i64.const
+        let value = this.readVarI64();
+        initializer.text = formatI64(i64_low(value), i64_high(value), true);
+        break;
+      }
+      case 0x43: { // f32.const
+        initializer.text = formatF32(readF32(this.buffer, this.offset), true);
+        this.offset += 4;
+        break;
+      }
+      case 0x44: { // f64.const
+        initializer.text = formatF64(readF64(this.buffer, this.offset));
+        this.offset += 8;
+        break;
+      }
+      case 0x23: { // get_global
+        initializer.globalName = globalImportNames[this.readVarU32()];
+        break;
+      }
+      default: throw new Error("unexpected initializer");
+    }
+    this.readU8(); // end
+    return initializer;
+  }
+}
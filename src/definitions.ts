@@ -4,7 +4,11 @@
  *//***/
 
 import {
-  CommonFlags
+  CommonFlags,
+  STATIC_DELIMITER,
+  INSTANCE_DELIMITER,
+  GETTER_PREFIX,
+  SETTER_PREFIX
 } from "./common";
 
 import {
@@ -27,11 +31,23 @@ import {
 
 import {
   Type,
-  TypeKind
+  TypeKind,
+  TypeFlags,
+  Signature
 } from "./types";
 
 import {
-  indent
+  Node
+} from "./ast";
+
+import {
+  DiagnosticCode
+} from "./diagnostics";
+
+import {
+  indent,
+  isIdentifierStart,
+  isIdentifierPart
 } from "./util";
 
 /** Walker base class. */
@@ -45,27 +61,46 @@ abstract class ExportsWalker {
   todo: Element[] = [];
   /** Already seen elements. */
   seen: Set<Element> = new Set();
+  /** Externally visible names of module-level exports, by exported element. */
+  exportNames: Map<Element,string> = new Map();
+  /** Module-level export currently visited, if any. */
+  exportElement: Element | null = null;
+  /** Externally visible name of the element currently visited, if exported. */
+  exportName: string = "";
 
   /** Constructs a new Element walker. */
   constructor(program: Program, includePrivate: bool = false) {
     this.program = program;
-    this.includePrivate;
+    this.includePrivate = includePrivate;
   }
 
   /** Walks all exports and calls the respective handlers. */
   walk(): void {
-    for (let moduleExport of this.program.moduleLevelExports.values()) {
-      // FIXME: doesn't honor the actual externally visible name
-      this.visitElement(moduleExport.element);
+    var moduleLevelExports = this.program.moduleLevelExports;
+    var exportNames = this.exportNames;
+    for (let [name, moduleExport] of moduleLevelExports) {
+      let element = moduleExport.element;
+      if (!exportNames.has(element)) exportNames.set(element, name); // referenced by the first name
     }
+    for (let [name, moduleExport] of moduleLevelExports) {
+      let element = moduleExport.element;
+      this.exportElement = element;
+      this.exportName = name; // aliases are visited once per name
+      this.visitElement(element);
+    }
+    this.exportElement = null;
+    this.exportName = "";
     var todo = this.todo;
-    for (let i = 0; i < todo.length; ) this.visitElement(todo[i]);
+    var seen = this.seen;
+    for (let i = 0; i < todo.length; ++i) {
+      let element = todo[i];
+      if (!seen.has(element)) this.visitElement(element);
+    }
   }
 
   /** Visits an element.*/
   visitElement(element: Element): void {
     if (element.is(CommonFlags.PRIVATE) && !this.includePrivate) return;
-    if (this.seen.has(element)) return;
     this.seen.add(element);
     switch (element.kind) {
       case ElementKind.GLOBAL: {
@@ -84,6 +119,14 @@ abstract class ExportsWalker {
         this.visitClassInstances(<ClassPrototype>element);
         break;
       }
+      case ElementKind.CLASS: {
+        this.visitClass(<Class>element);
+        break;
+      }
+      case ElementKind.INTERFACE: {
+        this.visitInterface(<Interface>element);
+        break;
+      }
       case ElementKind.FIELD: {
         if ((<Field>element).is(CommonFlags.COMPILED)) this.visitField(<Field>element);
         break;
@@ -112,8 +155,40 @@ abstract class ExportsWalker {
 
   private visitClassInstances(element: ClassPrototype): void {
     for (let instance of element.instances.values()) {
-      if (instance.is(CommonFlags.COMPILED)) this.visitClass(<Class>instance);
+      if (instance.is(CommonFlags.COMPILED)) this.visitElement(instance);
+    }
+  }
+
+  /** Gets the externally visible name of a module-level export, otherwise its simple name. */
+  protected nameOf(element: Element): string {
+    var key = element; // exports refer to prototypes
+    if (element.kind == ElementKind.FUNCTION) {
+      key = (<Function>element).prototype;
+    } else if (element.kind == ElementKind.CLASS || element.kind == ElementKind.INTERFACE) {
+      key = (<Class>element).prototype;
     }
+    if (key == this.exportElement) return this.exportName;
+    var exportNames = this.exportNames;
+    return exportNames.has(key) ? <string>exportNames.get(key) : element.simpleName;
+  }
+
+  /** Tests whether a class is exported, as opposed to just being referenced by an export. */
+  protected isExported(element: Class): bool {
+    var exportNames = this.exportNames;
+    var current: Element | null = element.prototype;
+    while (current && current.kind != ElementKind.FILESPACE) {
+      if (exportNames.has(current)) return true;
+      if (!current.is(CommonFlags.EXPORT)) break; // unless a member of an exported namespace
+      current = current.parent;
+    }
+    return false;
+  }
+
+  /** Gets the nearest exported base class of a class, if any. */
+  protected exportedBase(element: Class): Class | null {
+    var base = element.base;
+    while (base && !this.isExported(base)) base = base.base;
+    return base;
   }
 
   abstract visitGlobal(element: Global): void;
@@ -135,6 +210,14 @@ export class IDLBuilder extends ExportsWalker {
 
   private sb: string[] = [];
   private indentLevel: i32 = 0;
+  /** Callback interfaces by signature, mapped to their names. */
+  private callbacks: Map<string,string> = new Map();
+  /** Callback interface definitions following the module interface. */
+  private callbacksSb: string[] = [];
+  /** Interface definitions of classes, enums and namespaces following the module interface. */
+  private interfacesSb: string[] = [];
+  /** Definitions interrupted by the interfaces currently built. */
+  private outerSbs: string[][] = [];
 
   /** Constructs a new WebIDL builder. */
   constructor(program: Program, includePrivate: bool = false) {
@@ -143,22 +226,34 @@ export class IDLBuilder extends ExportsWalker {
 
   visitGlobal(element: Global): void {
     var sb = this.sb;
-    var isConst = element.is(CommonFlags.INLINED);
+    var isConst = element.constantValueKind != ConstantValueKind.NONE;
     indent(sb, this.indentLevel);
-    if (isConst) sb.push("const ");
-    sb.push(this.typeToString(element.type));
+    if (isConst) {
+      sb.push("const ");
+    } else {
+      if (element.is(CommonFlags.STATIC)) sb.push("static ");
+      if (element.isAny(CommonFlags.CONST | CommonFlags.READONLY)) sb.push("readonly ");
+      sb.push("attribute ");
+    }
+    var type = element.type;
+    sb.push(this.typeToString(type));
     sb.push(" ");
-    sb.push(element.simpleName);
+    sb.push(this.nameOf(element));
     if (isConst) {
+      sb.push(" = ");
       switch (element.constantValueKind) {
         case ConstantValueKind.INTEGER: {
-          sb.push(" = ");
-          sb.push(i64_to_string(element.constantIntegerValue));
+          let value = element.constantIntegerValue;
+          if (type.kind == TypeKind.BOOL) sb.push(i64_ne(value, i64_zero) ? "true" : "false");
+          else sb.push(i64_to_string(value));
           break;
         }
         case ConstantValueKind.FLOAT: {
-          sb.push(" = ");
-          sb.push(element.constantFloatValue.toString());
+          let value = element.constantFloatValue.toString();
+          sb.push(value);
+          if (isFinite(element.constantFloatValue) && value.indexOf(".") < 0 && value.indexOf("e") < 0) {
+            sb.push(".0"); // otherwise an integer literal
+          }
           break;
         }
         default: assert(false);
@@ -168,11 +263,8 @@ export class IDLBuilder extends ExportsWalker {
   }
 
   visitEnum(element: Enum): void {
+    this.beginInterface(this.qualifiedName(element));
     var sb = this.sb;
-    indent(sb, this.indentLevel++);
-    sb.push("interface ");
-    sb.push(element.simpleName);
-    sb.push(" {\n");
     var members = element.members;
     if (members) {
       for (let [name, member] of members) {
@@ -180,8 +272,8 @@ export class IDLBuilder extends ExportsWalker {
           let isConst = (<EnumValue>member).is(CommonFlags.INLINED);
           indent(sb, this.indentLevel);
           if (isConst) sb.push("const ");
-          else sb.push("readonly ");
-          sb.push("unsigned long ");
+          else sb.push("readonly attribute ");
+          sb.push("long ");
           sb.push(name);
           if (isConst) {
             sb.push(" = ");
@@ -194,24 +286,28 @@ export class IDLBuilder extends ExportsWalker {
         if (member.kind != ElementKind.ENUMVALUE) this.visitElement(member);
       }
     }
-    indent(sb, --this.indentLevel);
-    sb.push("}\n");
+    this.endInterface();
   }
 
   visitFunction(element: Function): void {
     var sb = this.sb;
     var signature = element.signature;
     indent(sb, this.indentLevel);
-    sb.push(this.typeToString(signature.returnType));
-    sb.push(" ");
-    sb.push(element.simpleName);
+    if (element.is(CommonFlags.CONSTRUCTOR)) {
+      sb.push("constructor");
+    } else {
+      if (element.is(CommonFlags.STATIC)) sb.push("static ");
+      sb.push(this.typeToString(signature.returnType));
+      sb.push(" ");
+      sb.push(this.nameOf(element));
+    }
     sb.push("(");
     var parameters = signature.parameterTypes;
     var numParameters = parameters.length;
-    // var requiredParameters = signature.requiredParameters;
+    var requiredParameters = signature.requiredParameters;
     for (let i = 0; i < numParameters; ++i) {
       if (i) sb.push(", ");
-      // if (i >= requiredParameters) sb.push("optional ");
+      if (i >= requiredParameters) sb.push("optional ");
       sb.push(this.typeToString(parameters[i]));
       sb.push(" ");
       sb.push(signature.getParameterName(i));
@@ -219,25 +315,36 @@ export class IDLBuilder extends ExportsWalker {
     sb.push(");\n");
     var members = element.members;
     if (members && members.size) {
-      indent(sb, this.indentLevel);
-      sb.push("interface ");
-      sb.push(element.simpleName);
-      sb.push(" {\n");
+      this.beginInterface(this.nameOf(element));
       for (let member of members.values()) this.visitElement(member);
-      indent(sb, --this.indentLevel);
-      sb.push("}\n");
+      this.endInterface();
     }
   }
 
   visitClass(element: Class): void {
-    var sb = this.sb;
-    indent(sb, this.indentLevel++);
-    sb.push("interface ");
-    sb.push(element.simpleName);
-    sb.push(" {\n");
-    // TODO
-    indent(sb, --this.indentLevel);
-    sb.push("}\n");
+    var base = this.exportedBase(element);
+    if (base) this.todo.push(base);
+    this.beginInterface(this.qualifiedName(element), base ? this.qualifiedName(base) : null);
+    var members = element.prototype.members; // static
+    if (members) {
+      for (let member of members.values()) this.visitMember(member);
+    }
+    var ctor = element.constructorInstance;
+    if (!ctor) { // constructors aren't inherited by interfaces
+      let current = element.base;
+      while (current && !(ctor = current.constructorInstance)) current = current.base;
+    }
+    if (ctor && ctor.is(CommonFlags.COMPILED) && !ctor.is(CommonFlags.PRIVATE)) this.visitFunction(ctor);
+    members = element.members; // instance
+    if (members) {
+      let baseMembers = base ? base.members : null;
+      for (let [name, member] of members) {
+        // inherited members are described by the base interface
+        if (baseMembers && baseMembers.get(name) === member) continue;
+        this.visitMember(member);
+      }
+    }
+    this.endInterface();
   }
 
   visitInterface(element: Interface): void {
@@ -245,21 +352,153 @@ export class IDLBuilder extends ExportsWalker {
   }
 
   visitField(element: Field): void {
-    // TODO
+    var sb = this.sb;
+    indent(sb, this.indentLevel);
+    if (element.is(CommonFlags.READONLY)) sb.push("readonly ");
+    sb.push("attribute ");
+    sb.push(this.typeToString(element.type));
+    sb.push(" ");
+    sb.push(element.simpleName);
+    sb.push(";\n");
   }
 
   visitNamespace(element: Namespace): void {
-    var sb = this.sb;
-    indent(sb, this.indentLevel++);
-    sb.push("interface ");
-    sb.push(element.simpleName);
-    sb.push(" {\n");
+    this.beginInterface(this.qualifiedName(element));
     var members = element.members;
     if (members) {
       for (let member of members.values()) this.visitElement(member);
     }
-    indent(sb, --this.indentLevel);
+    this.endInterface();
+  }
+
+  /** Begins the top-level interface of the specified name, interrupting the current definitions. */
+  private beginInterface(name: string, baseName: string | null = null): void {
+    this.outerSbs.push(this.sb);
+    var sb = new Array<string>();
+    sb.push("interface ");
+    sb.push(name);
+    if (baseName) {
+      sb.push(" : ");
+      sb.push(baseName);
+    }
+    sb.push(" {\n");
+    this.sb = sb; // members are indented like those of the module interface
+  }
+
+  /** Ends the current top-level interface, resuming the interrupted definitions. */
+  private endInterface(): void {
+    var sb = this.sb;
     sb.push("}\n");
+    var interfacesSb = this.interfacesSb;
+    for (let i = 0, k = sb.length; i < k; ++i) interfacesSb.push(sb[i]);
+    this.sb = assert(this.outerSbs.pop());
+  }
+
+  /** Visits a member of a class, describing fields and properties as attributes. */
+  private visitMember(element: Element): void {
+    if (element.is(CommonFlags.PRIVATE) && !this.includePrivate) return;
+    switch (element.kind) {
+      case ElementKind.FIELD: {
+        this.visitField(<Field>element);
+        break;
+      }
+      case ElementKind.PROPERTY: {
+        this.visitProperty(<Property>element);
+        break;
+      }
+      default: {
+        this.visitElement(element);
+        break;
+      }
+    }
+  }
+
+  /** Visits a property, combining its getter and setter to an attribute. */
+  private visitProperty(element: Property): void {
+    var getter = getCompiledInstance(element.getterPrototype);
+    var setter = getCompiledInstance(element.setterPrototype);
+    var type: Type;
+    var accessor: Function;
+    if (getter) {
+      type = getter.signature.returnType;
+      accessor = getter;
+    } else if (setter) {
+      type = setter.signature.parameterTypes[0];
+      accessor = setter;
+    } else {
+      return;
+    }
+    var sb = this.sb;
+    indent(sb, this.indentLevel);
+    if (accessor.is(CommonFlags.STATIC)) sb.push("static ");
+    if (!setter) sb.push("readonly ");
+    sb.push("attribute ");
+    sb.push(this.typeToString(type));
+    sb.push(" ");
+    sb.push(element.simpleName);
+    sb.push(";\n");
+  }
+
+  /** Gets the fully qualified name of a class, enum or namespace. */
+  private qualifiedName(element: Element): string {
+    var name: string;
+    var parent: Element | null;
+    if (element.kind == ElementKind.CLASS || element.kind == ElementKind.INTERFACE) {
+      let prototype = (<Class>element).prototype;
+      name = this.nameOf(prototype);
+      let typeArguments = (<Class>element).typeArguments;
+      if (typeArguments) {
+        for (let i = 0, k = typeArguments.length; i < k; ++i) {
+          let typeArgument = typeArguments[i];
+          let classReference = typeArgument.classReference;
+          let signatureReference = typeArgument.signatureReference;
+          name += "_" + (
+            classReference
+              ? this.qualifiedName(classReference)
+              : signatureReference
+                ? this.callbackName(signatureReference)
+                : typeArgument.toString()
+          );
+        }
+      }
+      parent = prototype.parent;
+    } else {
+      name = this.nameOf(element);
+      parent = element.parent;
+    }
+    while (parent && parent.kind != ElementKind.FILESPACE) {
+      name = this.nameOf(parent) + "_" + name;
+      parent = parent.parent;
+    }
+    return name;
+  }
+
+  /** Gets the name of the callback interface representing the specified function type. */
+  private callbackName(signature: Signature): string {
+    var returnType = this.typeToString(signature.returnType);
+    var parameters = signature.parameterTypes;
+    var numParameters = parameters.length;
+    var parameterTypes = new Array<string>(numParameters);
+    for (let i = 0; i < numParameters; ++i) parameterTypes[i] = this.typeToString(parameters[i]);
+    var key = returnType + "(" + parameterTypes.join(", ") + ")";
+    var callbacks = this.callbacks;
+    if (callbacks.has(key)) return <string>callbacks.get(key);
+    var name = "Callback" + callbacks.size.toString(10);
+    callbacks.set(key, name);
+    var sb = this.callbacksSb;
+    sb.push("callback interface ");
+    sb.push(name);
+    sb.push(" {\n  ");
+    sb.push(returnType);
+    sb.push(" call(");
+    for (let i = 0; i < numParameters; ++i) {
+      if (i) sb.push(", ");
+      sb.push(parameterTypes[i]);
+      sb.push(" ");
+      sb.push(signature.getParameterName(i));
+    }
+    sb.push(");\n}\n");
+    return name;
   }
 
   typeToString(type: Type): string {
@@ -271,11 +510,24 @@ export class IDLBuilder extends ExportsWalker {
       case TypeKind.ISIZE: return this.program.options.isWasm64 ? "long long" : "long";
       case TypeKind.U8: return "octet";
       case TypeKind.U16: return "unsigned short";
-      case TypeKind.U32: return "unsigned long";
-        // ^ TODO: function types
+      case TypeKind.U32: {
+        let signatureReference = type.signatureReference;
+        if (signatureReference) {
+          let name = this.callbackName(signatureReference);
+          return type.is(TypeFlags.NULLABLE) ? name + "?" : name;
+        }
+        return "unsigned long";
+      }
       case TypeKind.U64: return "unsigned long long";
-      case TypeKind.USIZE: return this.program.options.isWasm64 ? "unsigned long long" : "unsigned long";
-        // ^ TODO: class types
+      case TypeKind.USIZE: {
+        let classReference = type.classReference;
+        if (classReference && this.isExported(classReference)) {
+          this.todo.push(classReference);
+          let name = this.qualifiedName(classReference);
+          return type.is(TypeFlags.NULLABLE) ? name + "?" : name;
+        }
+        return this.program.options.isWasm64 ? "unsigned long long" : "unsigned long"; // opaque
+      }
       case TypeKind.BOOL: return "boolean";
       case TypeKind.F32: return "unrestricted float";
       case TypeKind.F64: return "unrestricted double";
@@ -294,6 +546,10 @@ export class IDLBuilder extends ExportsWalker {
     this.walk();
     --this.indentLevel;
     sb.push("}\n");
+    var interfacesSb = this.interfacesSb;
+    for (let i = 0, k = interfacesSb.length; i < k; ++i) sb.push(interfacesSb[i]);
+    var callbacksSb = this.callbacksSb;
+    for (let i = 0, k = callbacksSb.length; i < k; ++i) sb.push(callbacksSb[i]);
     return sb.join("");
   }
 }
@@ -308,6 +564,10 @@ export class TSDBuilder extends ExportsWalker {
 
   private sb: string[] = [];
   private indentLevel: i32 = 0;
+  /** Whether members are currently declared within a type literal instead of a namespace. */
+  private inTypeLiteral: bool = false;
+  /** Whether the memory has already been declared together with the namespace of the same name. */
+  private memoryDeclared: bool = false;
 
   /** Constructs a new WebIDL builder. */
   constructor(program: Program, includePrivate: bool = false) {
@@ -316,16 +576,18 @@ export class TSDBuilder extends ExportsWalker {
 
   visitGlobal(element: Global): void {
     var sb = this.sb;
-    var isConst = element.is(CommonFlags.INLINED);
+    var isConst = element.isAny(CommonFlags.CONST | CommonFlags.INLINED);
     indent(sb, this.indentLevel);
     if (element.is(CommonFlags.STATIC)) {
-      if (isConst) sb.push("static readonly ");
+      if (isConst || element.is(CommonFlags.READONLY)) sb.push("static readonly ");
       else sb.push("static ");
+    } else if (this.inTypeLiteral) {
+      if (isConst) sb.push("readonly ");
     } else {
       if (isConst) sb.push("const ");
       else sb.push("var ");
     }
-    sb.push(element.simpleName);
+    sb.push(this.nameOf(element));
     sb.push(": ");
     sb.push(this.typeToString(element.type));
     sb.push(";\n");
@@ -336,11 +598,12 @@ export class TSDBuilder extends ExportsWalker {
     var sb = this.sb;
     indent(sb, this.indentLevel++);
     sb.push("enum ");
-    sb.push(element.simpleName);
+    sb.push(this.nameOf(element));
     sb.push(" {\n");
     var members = element.members;
+    var numMembers = 0;
     if (members) {
-      let numMembers = members.size;
+      numMembers = members.size;
       for (let [name, member] of members) {
         if (member.kind == ElementKind.ENUMVALUE) {
           indent(sb, this.indentLevel);
@@ -353,10 +616,10 @@ export class TSDBuilder extends ExportsWalker {
           --numMembers;
         }
       }
-      if (numMembers) this.visitNamespace(element);
     }
     indent(sb, --this.indentLevel);
     sb.push("}\n");
+    if (numMembers) this.visitNamespace(element); // merges with the enum
   }
 
   visitFunction(element: Function): void {
@@ -373,21 +636,12 @@ export class TSDBuilder extends ExportsWalker {
       sb.push(";\n");
       return;
     } else {
-      if (!element.isAny(CommonFlags.STATIC | CommonFlags.INSTANCE)) sb.push("function ");
-      sb.push(element.simpleName);
+      if (!element.isAny(CommonFlags.STATIC | CommonFlags.INSTANCE) && !this.inTypeLiteral) sb.push("function ");
+      sb.push(this.nameOf(element));
     }
     sb.push("(");
-    var parameters = signature.parameterTypes;
-    var numParameters = parameters.length;
-    // var requiredParameters = signature.requiredParameters;
-    for (let i = 0; i < numParameters; ++i) {
-      if (i) sb.push(", ");
-      // if (i >= requiredParameters) sb.push("optional ");
-      sb.push(signature.getParameterName(i));
-      sb.push(": ");
-      sb.push(this.typeToString(parameters[i]));
-    }
-    if (element.isAny(CommonFlags.CONSTRUCTOR | CommonFlags.SET)) {
+    this.pushParameters(sb, signature);
+    if (element.is(CommonFlags.CONSTRUCTOR)) {
       sb.push(")");
     } else {
       sb.push("): ");
@@ -400,6 +654,7 @@ export class TSDBuilder extends ExportsWalker {
   visitClass(element: Class): void {
     var sb = this.sb;
     var isInterface = element.kind == ElementKind.INTERFACE;
+    var name = this.qualifiedName(element, false);
     indent(sb, this.indentLevel++);
     if (isInterface) {
       sb.push("interface ");
@@ -407,24 +662,40 @@ export class TSDBuilder extends ExportsWalker {
       if (element.is(CommonFlags.ABSTRACT)) sb.push("abstract ");
       sb.push("class ");
     }
-    sb.push(element.simpleName);
-    var base = element.base;
-    if (base && base.is(CommonFlags.COMPILED | CommonFlags.MODULE_EXPORT)) {
+    sb.push(name);
+    var base = this.exportedBase(element);
+    if (base) {
       sb.push(" extends ");
-      sb.push(base.simpleName); // TODO: fqn
+      sb.push(this.qualifiedName(base));
+      this.todo.push(base);
     }
     sb.push(" {\n");
+    if (!isInterface) {
+      // instances are handles to objects in linear memory, as wrapped by the loader
+      indent(sb, this.indentLevel);
+      sb.push("static wrap(ptr: ptr<");
+      sb.push(name);
+      sb.push(">): ");
+      sb.push(name);
+      sb.push(";\n");
+      indent(sb, this.indentLevel);
+      sb.push("readonly this: ptr<");
+      sb.push(name);
+      sb.push(">;\n");
+    }
     var members = element.prototype.members; // static
     if (members) {
-      for (let member of members.values()) {
-        this.visitElement(member);
-      }
+      for (let member of members.values()) this.visitMember(member);
     }
     var ctor = element.constructorInstance;
-    if (ctor) this.visitFunction(ctor);
+    if (ctor && ctor.is(CommonFlags.COMPILED)) this.visitFunction(ctor);
     members = element.members; // instance
     if (members) {
-      for (let member of members.values()) this.visitElement(member);
+      let baseMembers = base ? base.members : null;
+      for (let [name, member] of members) {
+        if (baseMembers && baseMembers.get(name) === member) continue; // inherited
+        this.visitMember(member);
+      }
     }
     indent(sb, --this.indentLevel);
     sb.push("}\n");
@@ -451,16 +722,117 @@ export class TSDBuilder extends ExportsWalker {
     var members = element.members;
     if (members && members.size) {
       let sb = this.sb;
+      let name = this.nameOf(element);
+      let inTypeLiteral = this.inTypeLiteral;
       indent(sb, this.indentLevel++);
-      sb.push("namespace ");
-      sb.push(element.simpleName);
-      sb.push(" {\n");
+      if (inTypeLiteral) {
+        sb.push(name);
+        sb.push(": {\n");
+      } else if (element == this.exportElement && name == "memory" && this.program.compilerExports.has("memory")) {
+        // the loader attaches the members of a namespace exported as 'memory' to the memory itself
+        sb.push("const memory: WebAssembly.Memory & {\n");
+        this.inTypeLiteral = true;
+        this.memoryDeclared = true;
+      } else {
+        sb.push("namespace ");
+        sb.push(name);
+        sb.push(" {\n");
+      }
       for (let member of members.values()) this.visitElement(member);
       indent(sb, --this.indentLevel);
-      sb.push("}\n");
+      sb.push(this.inTypeLiteral ? "};\n" : "}\n");
+      this.inTypeLiteral = inTypeLiteral;
     }
   }
 
+  /** Visits a member of a class, including the fields of classes that are only referenced. */
+  private visitMember(element: Element): void {
+    if (element.is(CommonFlags.PRIVATE) && !this.includePrivate) return;
+    switch (element.kind) {
+      case ElementKind.FIELD: {
+        this.visitField(<Field>element);
+        break;
+      }
+      case ElementKind.PROPERTY: {
+        this.visitProperty(<Property>element);
+        break;
+      }
+      default: {
+        this.visitElement(element);
+        break;
+      }
+    }
+  }
+
+  /** Visits a property, combining its getter and setter to a field. */
+  private visitProperty(element: Property): void {
+    var getter = getCompiledInstance(element.getterPrototype);
+    var setter = getCompiledInstance(element.setterPrototype);
+    var type: Type;
+    var accessor: Function;
+    if (getter) {
+      type = getter.signature.returnType;
+      accessor = getter;
+    } else if (setter) {
+      type = setter.signature.parameterTypes[0];
+      accessor = setter;
+    } else {
+      return;
+    }
+    var sb = this.sb;
+    indent(sb, this.indentLevel);
+    if (accessor.is(CommonFlags.PROTECTED)) sb.push("protected ");
+    if (accessor.is(CommonFlags.STATIC)) sb.push("static ");
+    if (!setter) sb.push("readonly ");
+    sb.push(element.simpleName);
+    sb.push(": ");
+    sb.push(this.typeToString(type));
+    sb.push(";\n");
+  }
+
+  /** Pushes the parameters of the specified signature. */
+  private pushParameters(sb: string[], signature: Signature): void {
+    var parameters = signature.parameterTypes;
+    var numParameters = parameters.length;
+    var requiredParameters = signature.requiredParameters;
+    var restIndex = signature.hasRest ? numParameters - 1 : -1;
+    for (let i = 0; i < numParameters; ++i) {
+      if (i) sb.push(", ");
+      sb.push(signature.getParameterName(i));
+      if (i >= requiredParameters && i != restIndex) sb.push("?");
+      sb.push(": ");
+      sb.push(this.typeToString(parameters[i]));
+    }
+  }
+
+  /** Gets the name of a class, optionally qualified by its namespaces. */
+  private qualifiedName(element: Class, qualify: bool = true): string {
+    var prototype = element.prototype;
+    var name = this.nameOf(prototype);
+    var typeArguments = element.typeArguments;
+    if (typeArguments) { // instances of generic classes are declared separately
+      for (let i = 0, k = typeArguments.length; i < k; ++i) {
+        let typeArgument = typeArguments[i];
+        let classReference = typeArgument.classReference;
+        name += "_" + (
+          classReference
+            ? this.qualifiedName(classReference, false)
+            : typeArgument.signatureReference
+              ? "Function"
+              : typeArgument.toString()
+        );
+      }
+    }
+    if (qualify) {
+      let parent = prototype.parent;
+      while (parent && parent.kind != ElementKind.FILESPACE) {
+        name = this.nameOf(parent) + "." + name;
+        parent = parent.parent;
+      }
+    }
+    return name;
+  }
+
   typeToString(type: Type): string {
     switch (type.kind) {
       case TypeKind.I8: return "i8";
@@ -470,11 +842,29 @@ export class TSDBuilder extends ExportsWalker {
       case TypeKind.ISIZE: return this.program.options.isWasm64 ? "I64" : "i32";
       case TypeKind.U8: return "u8";
       case TypeKind.U16: return "u16";
-      case TypeKind.U32: return "u32";
-        // ^ TODO: function types
+      case TypeKind.U32: {
+        let signatureReference = type.signatureReference;
+        if (signatureReference) {
+          let sb = new Array<string>();
+          sb.push("ptr<(");
+          this.pushParameters(sb, signatureReference);
+          sb.push(") => ");
+          sb.push(this.typeToString(signatureReference.returnType));
+          sb.push(type.is(TypeFlags.NULLABLE) ? "> | 0" : ">");
+          return sb.join("");
+        }
+        return "u32";
+      }
       case TypeKind.U64: return "U64";
-      case TypeKind.USIZE: return this.program.options.isWasm64 ? "U64" : "u32";
-        // ^ TODO: class types
+      case TypeKind.USIZE: {
+        let classReference = type.classReference;
+        if (classReference && this.isExported(classReference)) {
+          this.todo.push(classReference);
+          let name = "ptr<" + this.qualifiedName(classReference) + ">";
+          return type.is(TypeFlags.NULLABLE) ? name + " | 0" : name;
+        }
+        return "usize"; // opaque
+      }
       case TypeKind.BOOL: return "bool";
       case TypeKind.F32: return "f32";
       case TypeKind.F64: return "f64";
@@ -498,8 +888,29 @@ export class TSDBuilder extends ExportsWalker {
     sb.push("  type f32 = number;\n");
     sb.push("  type f64 = number;\n");
     sb.push("  type bool = any;\n");
+    sb.push("  type I64 = any;\n"); // not representable in JS
+    sb.push("  type U64 = any;\n");
+    sb.push(this.program.options.isWasm64 ? "  type usize = any;\n" : "  type usize = number;\n");
+    sb.push("  type ptr<T> = number & { __ptr: T };\n"); // opaque pointer to a T in linear memory
     ++this.indentLevel;
     this.walk();
+    var compilerExports = this.program.compilerExports;
+    if (compilerExports.has("memory") && !this.memoryDeclared) {
+      indent(sb, this.indentLevel);
+      sb.push("const memory: WebAssembly.Memory;\n");
+    }
+    if (compilerExports.has("table")) {
+      indent(sb, this.indentLevel);
+      sb.push("const table: WebAssembly.Table;\n");
+    }
+    if (compilerExports.has("RTTI_BASE")) {
+      indent(sb, this.indentLevel);
+      sb.push("const RTTI_BASE: usize;\n");
+    }
+    if (compilerExports.has("_setargc")) {
+      indent(sb, this.indentLevel);
+      sb.push("function _setargc(numArgs: u32): void;\n");
+    }
     --this.indentLevel;
     sb.push("}\n");
     sb.push("export default ASModule;\n");
@@ -507,8 +918,652 @@ export class TSDBuilder extends ExportsWalker {
   }
 }
 
+/** A JavaScript bindings builder. */
+export class BindingsBuilder extends ExportsWalker {
+
+  /** Builds JavaScript bindings for the specified program. */
+  static build(program: Program): string {
+    return new BindingsBuilder(program).build();
+  }
+
+  private sb: string[] = [];
+  private indentLevel: i32 = 0;
+  /** Wrapper classes of exported and referenced classes. */
+  private classesSb: string[] = [];
+  /** Prototype links of wrapper classes to the wrappers of their base classes. */
+  private linksSb: string[] = [];
+  /** Prefix of the flat export names of the members currently visited. */
+  private prefix: string = "";
+  /** Declarations already reported as not passable through the bindings. */
+  private reported: Set<Node> = new Set();
+
+  /** Constructs a new JavaScript bindings builder. */
+  constructor(program: Program, includePrivate: bool = false) {
+    super(program, includePrivate);
+  }
+
+  visitGlobal(element: Global): void {
+    if (!this.checkPassable(element.type, element.declaration)) return;
+    var sb = this.sb;
+    var name = this.exportName;
+    indent(sb, this.indentLevel);
+    this.pushGlobal(sb, "", name, this.prefix + name, element);
+    sb.push(",\n");
+  }
+
+  visitEnum(element: Enum): void {
+    var sb = this.sb;
+    var name = this.exportName;
+    indent(sb, this.indentLevel++);
+    sb.push(propertyName(name));
+    sb.push(": {\n");
+    var members = element.members;
+    if (members) {
+      let prefix = this.prefix + name + STATIC_DELIMITER;
+      for (let [memberName, member] of members) {
+        if (member.kind != ElementKind.ENUMVALUE) continue;
+        indent(sb, this.indentLevel);
+        if (member.is(CommonFlags.INLINED)) {
+          sb.push(propertyName(memberName));
+          sb.push(": ");
+          sb.push((<EnumValue>member).constantValue.toString(10));
+        } else {
+          sb.push("get ");
+          sb.push(propertyName(memberName));
+          sb.push("() { return ");
+          sb.push(exportAccess(prefix + memberName));
+          sb.push(".valueOf(); }");
+        }
+        sb.push(",\n");
+      }
+    }
+    indent(sb, --this.indentLevel);
+    sb.push("},\n");
+  }
+
+  visitFunction(element: Function): void {
+    if (!this.checkCallable(element)) return;
+    var sb = this.sb;
+    var name = this.exportName;
+    if (element.is(CommonFlags.GENERIC)) {
+      let internalName = element.internalName;
+      name += internalName.substring(internalName.lastIndexOf("<"));
+    }
+    this.pushFunction(sb, "", name, this.prefix + name, element);
+    sb.push(",\n");
+  }
+
+  visitClass(element: Class): void {
+    var className = this.qualifiedName(element);
+    var isExported = this.exportName.length > 0; // otherwise only referenced
+    if (isExported) {
+      let exportsSb = this.sb;
+      indent(exportsSb, this.indentLevel);
+      exportsSb.push(propertyName(this.exportName));
+      exportsSb.push(": ");
+      exportsSb.push(className);
+      exportsSb.push(",\n");
+    }
+    var sb = new Array<string>();
+    indent(sb, 1);
+    sb.push("class ");
+    sb.push(className);
+    sb.push(" extends __Object {\n");
+    if (isExported) {
+      let name = this.exportName;
+      let staticPrefix = this.prefix + name + STATIC_DELIMITER;
+      if (element.is(CommonFlags.GENERIC)) {
+        let internalName = element.internalName;
+        name += internalName.substring(internalName.lastIndexOf("<"));
+      }
+      let instancePrefix = this.prefix + name + INSTANCE_DELIMITER;
+      let ctor = element.constructorInstance;
+      if (!ctor) { // exported as this class's constructor if inherited
+        let base = element.base;
+        while (base && !(ctor = base.constructorInstance)) base = base.base;
+      }
+      if (ctor && ctor.is(CommonFlags.COMPILED) && this.checkCallable(ctor)) {
+        this.pushFunction(sb, "", ctor.simpleName, instancePrefix + ctor.simpleName, ctor, element.type);
+        sb.push("\n");
+      }
+      let members = element.prototype.members; // static
+      if (members) {
+        for (let [memberName, member] of members) {
+          if (member.is(CommonFlags.PRIVATE)) continue;
+          this.pushMember(sb, "static ", memberName, staticPrefix, member);
+        }
+      }
+      members = element.members; // instance, including inherited ones
+      if (members) {
+        for (let [memberName, member] of members) {
+          if (member.is(CommonFlags.PRIVATE)) continue;
+          this.pushMember(sb, "", memberName, instancePrefix, member);
+        }
+      }
+    } else { // members of referenced classes aren't exported, but their fields are accessed in memory
+      let members = element.members;
+      if (members) {
+        for (let [memberName, member] of members) {
+          if (member.kind == ElementKind.FIELD && !member.is(CommonFlags.PRIVATE)) {
+            this.pushFieldAccessors(sb, memberName, <Field>member);
+          }
+        }
+      }
+    }
+    indent(sb, 1);
+    sb.push("}\n");
+    var classesSb = this.classesSb;
+    for (let i = 0, k = sb.length; i < k; ++i) classesSb.push(sb[i]);
+    var base = element.base;
+    if (base) {
+      this.todo.push(base);
+      let linksSb = this.linksSb;
+      indent(linksSb, 1);
+      linksSb.push("Object.setPrototypeOf(");
+      linksSb.push(className);
+      linksSb.push(".prototype, ");
+      linksSb.push(this.qualifiedName(base));
+      linksSb.push(".prototype);\n");
+    }
+  }
+
+  visitInterface(element: Interface): void {
+    this.visitClass(element);
+  }
+
+  visitField(element: Field): void {
+    // handled as part of the respective class
+  }
+
+  visitNamespace(element: Element): void {
+    var sb = this.sb;
+    var name = this.exportName;
+    indent(sb, this.indentLevel++);
+    sb.push(propertyName(name));
+    sb.push(": {\n");
+    var members = element.members;
+    if (members) {
+      let prefix = this.prefix;
+      this.prefix = prefix + name + STATIC_DELIMITER;
+      for (let [memberName, member] of members) {
+        if (!member.is(CommonFlags.EXPORT)) continue;
+        this.exportName = memberName;
+        this.visitElement(member);
+      }
+      this.prefix = prefix;
+    }
+    indent(sb, --this.indentLevel);
+    sb.push("},\n");
+  }
+
+  /** Pushes the accessors or methods representing a member of an exported class. */
+  private pushMember(sb: string[], modifiers: string, name: string, prefix: string, element: Element): void {
+    switch (element.kind) {
+      case ElementKind.GLOBAL: {
+        if (!element.is(CommonFlags.COMPILED)) break;
+        if (!this.checkPassable((<Global>element).type, (<Global>element).declaration)) break;
+        indent(sb, 2);
+        this.pushGlobal(sb, modifiers, name, prefix + name, <Global>element);
+        sb.push("\n");
+        break;
+      }
+      case ElementKind.FIELD: {
+        let type = (<Field>element).type;
+        if (!this.checkPassable(type, (<Field>element).declaration)) break;
+        indent(sb, 2);
+        sb.push("get ");
+        sb.push(propertyName(name));
+        sb.push("() { return ");
+        sb.push(this.liftValue(type, exportAccess(prefix + GETTER_PREFIX + name) + "(this.ptr)"));
+        sb.push("; }\n");
+        if (!element.is(CommonFlags.READONLY)) {
+          indent(sb, 2);
+          sb.push("set ");
+          sb.push(propertyName(name));
+          sb.push("(value) { ");
+          sb.push(exportAccess(prefix + SETTER_PREFIX + name));
+          sb.push("(this.ptr, ");
+          sb.push(this.lowerValue(type, "value"));
+          sb.push("); }\n");
+        }
+        break;
+      }
+      case ElementKind.PROPERTY: {
+        let getter = getCompiledInstance((<Property>element).getterPrototype);
+        if (getter && this.checkCallable(getter)) {
+          this.pushFunction(sb, modifiers + "get ", name, prefix + GETTER_PREFIX + name, getter);
+          sb.push("\n");
+        }
+        let setter = getCompiledInstance((<Property>element).setterPrototype);
+        if (setter && this.checkCallable(setter)) {
+          this.pushFunction(sb, modifiers + "set ", name, prefix + SETTER_PREFIX + name, setter);
+          sb.push("\n");
+        }
+        break;
+      }
+      case ElementKind.FUNCTION_PROTOTYPE: {
+        for (let instance of (<FunctionPrototype>element).instances.values()) {
+          if (!instance.is(CommonFlags.COMPILED) || !this.checkCallable(instance)) continue;
+          let instanceName = name;
+          if (instance.is(CommonFlags.GENERIC)) {
+            let internalName = instance.internalName;
+            instanceName += internalName.substring(internalName.lastIndexOf("<"));
+          }
+          this.pushFunction(sb, modifiers, instanceName, prefix + instanceName, instance);
+          sb.push("\n");
+        }
+        break;
+      }
+    }
+  }
+
+  /** Pushes the accessors of a field of a referenced class, accessing its value in memory. */
+  private pushFieldAccessors(sb: string[], name: string, element: Field): void {
+    var type = element.type;
+    if (!this.checkPassable(type, null)) return; // not exported, hence not reported
+    var view = "new " + viewName(type, this.program.options.isWasm64) +
+      "(memory.buffer, this.ptr + " + element.memoryOffset.toString(10) + ", 1)[0]";
+    indent(sb, 2);
+    sb.push("get ");
+    sb.push(propertyName(name));
+    sb.push("() { return ");
+    sb.push(this.liftValue(type, view));
+    sb.push("; }\n");
+    if (!element.is(CommonFlags.READONLY)) {
+      indent(sb, 2);
+      sb.push("set ");
+      sb.push(propertyName(name));
+      sb.push("(value) { ");
+      sb.push(view);
+      sb.push(" = ");
+      sb.push(this.lowerValue(type, "value"));
+      sb.push("; }\n");
+    }
+  }
+
+  /** Pushes the accessors representing a global. */
+  private pushGlobal(sb: string[], modifiers: string, name: string, exportName: string, element: Global): void {
+    var type = element.type;
+    sb.push(modifiers);
+    sb.push("get ");
+    sb.push(propertyName(name));
+    sb.push("() { return ");
+    if (element.is(CommonFlags.INLINED)) {
+      switch (element.constantValueKind) {
+        case ConstantValueKind.INTEGER: {
+          let value = element.constantIntegerValue;
+          if (type.kind == TypeKind.BOOL) {
+            sb.push(i64_ne(value, i64_zero) ? "true" : "false");
+          } else {
+            sb.push(i64_to_string(value));
+            if (type.size == 64) sb.push("n");
+          }
+          break;
+        }
+        case ConstantValueKind.FLOAT: {
+          sb.push(element.constantFloatValue.toString());
+          break;
+        }
+        default: assert(false);
+      }
+      sb.push("; }");
+      return;
+    }
+    sb.push(this.liftValue(type, exportAccess(exportName) + ".valueOf()"));
+    sb.push("; }");
+    if (!element.is(CommonFlags.CONST) && !element.is(CommonFlags.STATIC | CommonFlags.READONLY)) {
+      let isStatic = modifiers.length > 0;
+      sb.push(isStatic ? "\n" : ",\n"); // separates the accessors within classes respectively objects
+      indent(sb, isStatic ? 2 : this.indentLevel);
+      sb.push(modifiers);
+      sb.push("set ");
+      sb.push(propertyName(name));
+      sb.push("(value) { ");
+      sb.push(exportAccess(exportName));
+      sb.push(".value = ");
+      sb.push(this.lowerValue(type, "value"));
+      sb.push("; }");
+    }
+  }
+
+  /** Pushes a function calling the exported function of the specified name. */
+  private pushFunction(
+    sb: string[],
+    modifiers: string,
+    name: string,
+    exportName: string,
+    element: Function,
+    classType: Type | null = null // constructed, if a constructor
+  ): void {
+    var signature = element.signature;
+    var parameterTypes = signature.parameterTypes;
+    var numParameters = parameterTypes.length;
+    var returnType = signature.returnType;
+    var isConstructor = element.is(CommonFlags.CONSTRUCTOR);
+    var isInstance = element.is(CommonFlags.INSTANCE);
+    var level = isInstance || modifiers.length ? 2 : this.indentLevel;
+    var hasReturn = returnType != Type.void && !isConstructor;
+    if (numParameters || hasReturn) {
+      indent(sb, level);
+      sb.push("/**\n");
+      for (let i = 0; i < numParameters; ++i) {
+        indent(sb, level);
+        sb.push(" * @param {");
+        sb.push(this.typeToString(parameterTypes[i]));
+        sb.push("} ");
+        sb.push(signature.getParameterName(i));
+        sb.push("\n");
+      }
+      if (hasReturn) {
+        indent(sb, level);
+        sb.push(" * @returns {");
+        sb.push(this.typeToString(returnType));
+        sb.push("}\n");
+      }
+      indent(sb, level);
+      sb.push(" */\n");
+    }
+    indent(sb, level);
+    sb.push(modifiers);
+    sb.push(propertyName(name));
+    sb.push("(");
+    for (let i = 0; i < numParameters; ++i) {
+      if (i) sb.push(", ");
+      sb.push(signature.getParameterName(i));
+    }
+    sb.push(") {\n");
+    var args = new Array<string>();
+    if (isConstructor) args.push("0"); // allocates a new instance
+    else if (isInstance) args.push("this.ptr");
+    for (let i = 0; i < numParameters; ++i) {
+      args.push(this.lowerValue(parameterTypes[i], signature.getParameterName(i)));
+    }
+    var call: string;
+    if (signature.requiredParameters < numParameters) {
+      // set the number of arguments after lowering them, right before calling the trampoline
+      indent(sb, level + 1);
+      sb.push("const args = [ ");
+      sb.push(args.join(", "));
+      sb.push(" ];\n");
+      indent(sb, level + 1);
+      sb.push("exports._setargc(arguments.length);\n");
+      call = exportAccess(exportName) + "(...args)";
+    } else {
+      call = exportAccess(exportName) + "(" + args.join(", ") + ")";
+    }
+    indent(sb, level + 1);
+    if (isConstructor) {
+      sb.push("return ");
+      sb.push(this.liftValue(classType ? classType : assert(signature.thisType), call));
+    } else if (returnType != Type.void) {
+      sb.push("return ");
+      sb.push(this.liftValue(returnType, call));
+    } else {
+      sb.push(call);
+    }
+    sb.push(";\n");
+    indent(sb, level);
+    sb.push("}");
+  }
+
+  /** Makes an expression converting a value of the specified type from its representation in memory. */
+  private liftValue(type: Type, expr: string): string {
+    var classReference = type.classReference;
+    if (classReference) {
+      let program = this.program;
+      if (classReference == program.stringInstance) return "__liftString(" + expr + ")";
+      if (classReference.prototype == program.arrayPrototype) {
+        let elementType = assert(classReference.typeArguments)[0];
+        let liftElement = this.liftValue(elementType, "value");
+        return "__liftArray(" + (
+          liftElement == "value" ? "null" : "value => " + liftElement
+        ) + ", " + viewName(elementType, program.options.isWasm64) + ", " + expr + ")";
+      }
+      this.todo.push(classReference);
+      return this.qualifiedName(classReference) + ".wrap(" + expr + ")";
+    }
+    switch (type.kind) {
+      case TypeKind.BOOL: return expr + " != 0";
+      case TypeKind.U32: return expr + " >>> 0";
+      case TypeKind.USIZE: return this.program.options.isWasm64 ? expr : expr + " >>> 0";
+    }
+    return expr;
+  }
+
+  /** Makes an expression converting a value of the specified type to its representation in memory. */
+  private lowerValue(type: Type, expr: string): string {
+    var classReference = type.classReference;
+    if (classReference) {
+      let program = this.program;
+      if (classReference == program.stringInstance) return "__lowerString(" + expr + ")";
+      if (classReference.prototype == program.arrayPrototype) {
+        let elementType = assert(classReference.typeArguments)[0];
+        let lowerElement = this.lowerValue(elementType, "value");
+        return "__lowerArray(" + (
+          lowerElement == "value" ? "null" : "value => " + lowerElement
+        ) + ", " + viewName(elementType, program.options.isWasm64) + ", " + (
+          classReference.hasRuntimeClassId() ? classReference.id.toString(10) : "0"
+        ) + ", " + classReference.currentMemoryOffset.toString(10) + ", " + expr + ")";
+      }
+      this.todo.push(classReference);
+      return "__lowerObject(" + expr + ")";
+    }
+    if (type.kind == TypeKind.BOOL) return expr + " ? 1 : 0";
+    return expr;
+  }
+
+  /** Tests whether values of the specified type can be passed through the bindings, otherwise reports them. */
+  private checkPassable(type: Type, reportNode: Node | null): bool {
+    // function values point to a table index and an environment that calls from JavaScript can't provide
+    if (!type.signatureReference) return true;
+    var reported = this.reported;
+    if (reportNode && !reported.has(reportNode)) {
+      this.program.error(
+        DiagnosticCode.Values_of_function_type_0_cannot_be_passed_through_JavaScript_bindings,
+        reportNode.range, type.toString()
+      );
+      reported.add(reportNode);
+    }
+    return false;
+  }
+
+  /** Tests whether the arguments and the return value of a function can be passed through the bindings. */
+  private checkCallable(element: Function): bool {
+    var signature = element.signature;
+    var signatureNode = element.prototype.declaration.signature;
+    var parameterTypes = signature.parameterTypes;
+    var parameterNodes = signatureNode.parameters;
+    var isCallable = this.checkPassable(signature.returnType, signatureNode.returnType);
+    for (let i = 0, k = parameterTypes.length; i < k; ++i) {
+      if (!this.checkPassable(parameterTypes[i], parameterNodes[i])) isCallable = false;
+    }
+    return isCallable;
+  }
+
+  /** Gets the name of the wrapper class of the specified class. */
+  private qualifiedName(element: Class): string {
+    var prototype = element.prototype;
+    var name = this.nameOf(prototype);
+    var typeArguments = element.typeArguments;
+    if (typeArguments) {
+      for (let i = 0, k = typeArguments.length; i < k; ++i) {
+        let typeArgument = typeArguments[i];
+        let classReference = typeArgument.classReference;
+        name += "_" + (
+          classReference
+            ? this.qualifiedName(classReference)
+            : typeArgument.signatureReference
+              ? "Function"
+              : typeArgument.toString()
+        );
+      }
+    }
+    var parent = prototype.parent;
+    while (parent && parent.kind != ElementKind.FILESPACE) {
+      name = this.nameOf(parent) + "_" + name;
+      parent = parent.parent;
+    }
+    return name;
+  }
+
+  /** Gets the JSDoc type of a value of the specified type. */
+  typeToString(type: Type): string {
+    var classReference = type.classReference;
+    if (classReference) {
+      let program = this.program;
+      let name: string;
+      if (classReference == program.stringInstance) {
+        name = "string";
+      } else if (classReference.prototype == program.arrayPrototype) {
+        name = "Array<" + this.typeToString(assert(classReference.typeArguments)[0]) + ">";
+      } else {
+        name = this.qualifiedName(classReference);
+      }
+      return type.is(TypeFlags.NULLABLE) ? name + "|null" : name;
+    }
+    switch (type.kind) {
+      case TypeKind.I64:
+      case TypeKind.U64: return "bigint";
+      case TypeKind.ISIZE:
+      case TypeKind.USIZE: return this.program.options.isWasm64 ? "bigint" : "number";
+      case TypeKind.BOOL: return "boolean";
+      case TypeKind.VOID: return "void";
+      default: return "number";
+    }
+  }
+
+  build(): string {
+    var program = this.program;
+    var exportsSb = this.sb;
+    this.indentLevel = 2;
+    if (!program.moduleLevelExports.has("memory")) {
+      indent(exportsSb, 2);
+      exportsSb.push("memory,\n");
+    }
+    this.walk();
+    var sb = new Array<string>();
+    sb.push("/** Instantiates the module using the specified imports and wraps its exports. */\n");
+    sb.push("async function instantiate(module, imports = {}) {\n");
+    sb.push("  const env = Object.assign({\n");
+    sb.push("    abort(message, fileName, line, column) {\n");
+    sb.push("      message = __liftString(message);\n");
+    sb.push("      fileName = __liftString(fileName);\n");
+    sb.push("      throw Error(\"abort: \" + message + \" at \" + fileName + \":\" + line + \":\" + column);\n");
+    sb.push("    }\n");
+    sb.push("  }, imports.env);\n");
+    sb.push("  const result = await WebAssembly.instantiate(module, Object.assign({}, imports, { env }));\n");
+    sb.push("  const { exports } = result.instance || result;\n");
+    sb.push("  const memory = exports.memory;\n");
+    sb.push("  const allocate = exports[\"memory.allocate\"];\n");
+    // layouts of the objects allocated by the bindings, as compiled
+    var stringInstance = assert(program.stringInstance);
+    var bufferInstance = assert(program.arrayBufferInstance);
+    sb.push("  const CLASS_ID_HEADER_SIZE = ");
+    sb.push(program.classIdHeaderSize.toString(10));
+    sb.push(";\n");
+    sb.push("  const STRING_ID = ");
+    sb.push(stringInstance.hasRuntimeClassId() ? stringInstance.id.toString(10) : "0");
+    sb.push(";\n");
+    sb.push("  const STRING_HEADER_SIZE = ");
+    sb.push(((stringInstance.currentMemoryOffset + 1) & ~1).toString(10));
+    sb.push(";\n");
+    sb.push("  const ARRAYBUFFER_HEADER_SIZE = ");
+    sb.push(((bufferInstance.currentMemoryOffset + 7) & ~7).toString(10));
+    sb.push(";\n");
+    sb.push("  function __allocate(size) {\n");
+    if (program.hasGC) {
+      sb.push("    throw Error(\"allocating objects is not supported when using a garbage collector\");\n");
+    } else {
+      sb.push("    if (!allocate) throw Error(\"allocating objects requires 'export { memory }'\");\n");
+      sb.push("    return allocate(size);\n");
+    }
+    sb.push("  }\n");
+    // instances of classes carrying a runtime class id are preceded by a header ending with the id
+    sb.push("  function __allocateObject(size, classId) {\n");
+    sb.push("    if (!classId) return __allocate(size);\n");
+    sb.push("    const ptr = __allocate(CLASS_ID_HEADER_SIZE + size) + CLASS_ID_HEADER_SIZE;\n");
+    sb.push("    new Uint32Array(memory.buffer, ptr - 4, 1)[0] = classId;\n");
+    sb.push("    return ptr;\n");
+    sb.push("  }\n");
+    // String: length (i32) followed by UTF-16 code units
+    sb.push("  function __liftString(ptr) {\n");
+    sb.push("    if (!ptr) return null;\n");
+    sb.push("    const length = new Uint32Array(memory.buffer, ptr, 1)[0];\n");
+    sb.push("    const data = new Uint16Array(memory.buffer, ptr + STRING_HEADER_SIZE, length);\n");
+    sb.push("    const parts = [];\n");
+    sb.push("    for (let i = 0; i < length; i += 1024) {\n");
+    sb.push("      parts.push(String.fromCharCode.apply(String, data.subarray(i, i + 1024)));\n");
+    sb.push("    }\n");
+    sb.push("    return parts.join(\"\");\n");
+    sb.push("  }\n");
+    sb.push("  function __lowerString(value) {\n");
+    sb.push("    if (value == null) return 0;\n");
+    sb.push("    const length = value.length;\n");
+    sb.push("    const ptr = __allocateObject(STRING_HEADER_SIZE + (length << 1), STRING_ID);\n");
+    sb.push("    new Uint32Array(memory.buffer, ptr, 1)[0] = length;\n");
+    sb.push("    const data = new Uint16Array(memory.buffer, ptr + STRING_HEADER_SIZE, length);\n");
+    sb.push("    for (let i = 0; i < length; ++i) data[i] = value.charCodeAt(i);\n");
+    sb.push("    return ptr;\n");
+    sb.push("  }\n");
+    // Array<T>: buffer_ (ArrayBuffer) and length_ (i32), with the ArrayBuffer's data following its byteLength
+    sb.push("  function __liftArray(liftElement, View, ptr) {\n");
+    sb.push("    if (!ptr) return null;\n");
+    sb.push("    const [ buffer, length ] = new Uint32Array(memory.buffer, ptr, 2);\n");
+    sb.push("    const data = new View(memory.buffer, buffer + ARRAYBUFFER_HEADER_SIZE, length);\n");
+    sb.push("    const values = new Array(length);\n");
+    sb.push("    for (let i = 0; i < length; ++i) values[i] = liftElement ? liftElement(data[i]) : data[i];\n");
+    sb.push("    return values;\n");
+    sb.push("  }\n");
+    sb.push("  function __lowerArray(lowerElement, View, classId, size, values) {\n");
+    sb.push("    if (values == null) return 0;\n");
+    sb.push("    const length = values.length;\n");
+    sb.push("    const elements = lowerElement ? Array.from(values, value => lowerElement(value)) : values;\n");
+    sb.push("    const byteLength = length * View.BYTES_PER_ELEMENT;\n");
+    // buffers are allocated in powers of two, which growing arrays rely upon
+    sb.push("    const bufferSize = 1 << (32 - Math.clz32(ARRAYBUFFER_HEADER_SIZE + byteLength - 1));\n");
+    sb.push("    const buffer = __allocate(bufferSize);\n");
+    sb.push("    new Uint32Array(memory.buffer, buffer, 1)[0] = byteLength;\n");
+    sb.push("    new View(memory.buffer, buffer + ARRAYBUFFER_HEADER_SIZE, length).set(elements);\n");
+    sb.push("    const ptr = __allocateObject(size, classId);\n");
+    sb.push("    new Uint32Array(memory.buffer, ptr, 2).set([ buffer, length ]);\n");
+    sb.push("    return ptr;\n");
+    sb.push("  }\n");
+    sb.push("  function __lowerObject(value) {\n");
+    sb.push("    return value == null ? 0 : value.ptr;\n");
+    sb.push("  }\n");
+    sb.push("  class __Object {\n");
+    sb.push("    constructor() {\n");
+    sb.push("      throw TypeError(\"illegal constructor\");\n");
+    sb.push("    }\n");
+    sb.push("    static wrap(ptr) {\n");
+    sb.push("      return ptr ? Object.create(this.prototype, { ptr: { value: ptr } }) : null;\n");
+    sb.push("    }\n");
+    sb.push("  }\n");
+    var classesSb = this.classesSb;
+    for (let i = 0, k = classesSb.length; i < k; ++i) sb.push(classesSb[i]);
+    var linksSb = this.linksSb;
+    for (let i = 0, k = linksSb.length; i < k; ++i) sb.push(linksSb[i]);
+    sb.push("  return {\n");
+    for (let i = 0, k = exportsSb.length; i < k; ++i) sb.push(exportsSb[i]);
+    sb.push("  };\n");
+    sb.push("}\n");
+    sb.push("exports.instantiate = instantiate;\n");
+    return sb.join("");
+  }
+}
+
 // helpers
 
+/** Gets the first compiled instance of a function prototype, if any. */
+function getCompiledInstance(prototype: FunctionPrototype | null): Function | null {
+  if (prototype) {
+    for (let instance of prototype.instances.values()) {
+      if (instance.is(CommonFlags.COMPILED)) return instance;
+    }
+  }
+  return null;
+}
+
 /** Tests if a namespace-like element has at least one compiled member. */
 function hasCompiledMember(element: Element): bool {
   var members = element.members;
@@ -536,3 +1591,58 @@ function hasCompiledMember(element: Element): bool {
   }
   return false;
 }
+
+/** Gets the name of the typed array view accessing values of the specified type. */
+function viewName(type: Type, isWasm64: bool): string {
+  switch (type.kind) {
+    case TypeKind.I8: return "Int8Array";
+    case TypeKind.I16: return "Int16Array";
+    case TypeKind.I32: return "Int32Array";
+    case TypeKind.I64: return "BigInt64Array";
+    case TypeKind.ISIZE: return isWasm64 ? "BigInt64Array" : "Int32Array";
+    case TypeKind.BOOL:
+    case TypeKind.U8: return "Uint8Array";
+    case TypeKind.U16: return "Uint16Array";
+    case TypeKind.U32: return "Uint32Array";
+    case TypeKind.U64: return "BigUint64Array";
+    case TypeKind.USIZE: return isWasm64 ? "BigUint64Array" : "Uint32Array";
+    case TypeKind.F32: return "Float32Array";
+    case TypeKind.F64: return "Float64Array";
+    default: {
+      assert(false);
+      return "";
+    }
+  }
+}
+
+/** Gets the JavaScript property name of the specified name, quoting it if necessary. */
+function propertyName(name: string): string {
+  return isIdentifierName(name) ? name : quote(name);
+}
+
+/** Gets the JavaScript expression accessing the export of the specified name. */
+function exportAccess(name: string): string {
+  return isIdentifierName(name) ? "exports." + name : "exports[" + quote(name) + "]";
+}
+
+/** Tests if the specified name is a valid JavaScript identifier name. */
+function isIdentifierName(name: string): bool {
+  var length = name.length;
+  if (!length || !isIdentifierStart(name.charCodeAt(0))) return false;
+  for (let i = 1; i < length; ++i) {
+    if (!isIdentifierPart(name.charCodeAt(i))) return false;
+  }
+  return true;
+}
+
+/** Quotes the specified string as a JavaScript string literal. */
+function quote(str: string): string {
+  var sb = [ "\"" ];
+  for (let i = 0, k = str.length; i < k; ++i) {
+    let c = str.charAt(i);
+    if (c == "\"" || c == "\\") sb.push("\\");
+    sb.push(c);
+  }
+  sb.push("\"");
+  return sb.join("");
+}
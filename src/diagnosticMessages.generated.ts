@@ -10,6 +10,7 @@ export enum DiagnosticCode {
   Operation_not_supported = 100,
   Operation_is_unsafe = 101,
   User_defined_0 = 102,
+  Feature_0_is_not_enabled = 103,
   Conversion_from_type_0_to_1_requires_an_explicit_cast = 200,
   Conversion_from_type_0_to_1_will_require_an_explicit_cast_when_switching_between_32_64_bit = 201,
   Type_0_cannot_be_changed_to_type_1 = 202,
@@ -29,6 +30,13 @@ export enum DiagnosticCode {
   Constructor_of_class_0_must_not_require_any_arguments = 216,
   Function_0_cannot_be_inlined_into_itself = 217,
   Cannot_access_method_0_without_calling_it_as_it_requires_this_to_be_set = 218,
+  Tagged_template_literals_are_not_supported = 219,
+  Invalid_regular_expression_0 = 220,
+  Type_0_is_not_iterable = 221,
+  Tuple_types_are_only_supported_as_return_types = 222,
+  A_value_of_tuple_type_0_must_be_destructured = 223,
+  Destructuring_declarations_are_not_supported = 224,
+  Values_of_function_type_0_cannot_be_passed_through_JavaScript_bindings = 225,
   Unterminated_string_literal = 1002,
   Identifier_expected = 1003,
   _0_expected = 1005,
@@ -71,6 +79,7 @@ export enum DiagnosticCode {
   Line_break_not_permitted_here = 1142,
   Declaration_expected = 1146,
   _const_declarations_must_be_initialized = 1155,
+  Unterminated_template_literal = 1160,
   Unterminated_regular_expression_literal = 1161,
   Interface_declaration_cannot_have_implements_clause = 1176,
   Binary_digit_expected = 1177,
@@ -99,21 +108,27 @@ export enum DiagnosticCode {
   The_operand_of_an_increment_or_decrement_operator_must_be_a_variable_or_a_property_access = 2357,
   The_left_hand_side_of_an_assignment_expression_must_be_a_variable_or_a_property_access = 2364,
   Operator_0_cannot_be_applied_to_types_1_and_2 = 2365,
+  A_rest_parameter_must_be_of_an_array_type = 2370,
   _get_and_set_accessor_must_have_the_same_type = 2380,
   Constructor_implementation_is_missing = 2390,
   Function_implementation_is_missing_or_not_immediately_following_the_declaration = 2391,
   Multiple_constructor_implementations_are_not_allowed = 2392,
   Duplicate_function_implementation = 2393,
   Individual_declarations_in_merged_declaration_0_must_be_all_exported_or_all_local = 2395,
+  Class_0_incorrectly_implements_interface_1 = 2420,
+  A_class_can_only_implement_an_interface = 2422,
   Type_0_has_no_property_1 = 2460,
+  Type_0_is_not_an_array_type = 2461,
   The_0_operator_cannot_be_applied_to_type_1 = 2469,
   In_const_enum_declarations_member_initializer_must_be_constant_expression = 2474,
   Export_declaration_conflicts_with_exported_declaration_of_0 = 2484,
+  Tuple_type_0_of_length_1_has_no_element_at_index_2 = 2493,
   Cannot_assign_to_0_because_it_is_a_constant_or_a_read_only_property = 2540,
   The_target_of_an_assignment_must_be_a_variable_or_a_property_access = 2541,
   Index_signature_in_type_0_only_permits_reading = 2542,
   Expected_0_arguments_but_got_1 = 2554,
   Expected_at_least_0_arguments_but_got_1 = 2555,
+  A_spread_argument_must_either_have_a_tuple_type_or_be_passed_to_a_rest_parameter = 2556,
   Expected_0_type_arguments_but_got_1 = 2558,
   A_member_initializer_in_a_enum_declaration_cannot_reference_members_declared_after_it_including_members_defined_in_other_enums = 2651,
   Constructor_of_class_0_is_private_and_only_accessible_within_the_class_declaration = 2673,
@@ -130,6 +145,7 @@ export function diagnosticCodeToString(code: DiagnosticCode): string {
     case 100: return "Operation not supported.";
     case 101: return "Operation is unsafe.";
     case 102: return "User-defined: {0}";
+    case 103: return "Feature '{0}' is not enabled.";
     case 200: return "Conversion from type '{0}' to '{1}' requires an explicit cast.";
     case 201: return "Conversion from type '{0}' to '{1}' will require an explicit cast when switching between 32/64-bit.";
     case 202: return "Type '{0}' cannot be changed to type '{1}'.";
@@ -149,6 +165,13 @@ export function diagnosticCodeToString(code: DiagnosticCode): string {
     case 216: return "Constructor of class '{0}' must not require any arguments.";
     case 217: return "Function '{0}' cannot be inlined into itself.";
     case 218: return "Cannot access method '{0}' without calling it as it requires 'this' to be set.";
+    case 219: return "Tagged template literals are not supported.";
+    case 220: return "Invalid regular expression: {0}";
+    case 221: return "Type '{0}' is not iterable.";
+    case 222: return "Tuple types are only supported as return types.";
+    case 223: return "A value of tuple type '{0}' must be destructured.";
+    case 224: return "Destructuring declarations are not supported.";
+    case 225: return "Values of function type '{0}' cannot be passed through JavaScript bindings.";
     case 1002: return "Unterminated string literal.";
     case 1003: return "Identifier expected.";
     case 1005: return "'{0}' expected.";
@@ -191,6 +214,7 @@ export function diagnosticCodeToString(code: DiagnosticCode): string {
     case 1142: return "Line break not permitted here.";
     case 1146: return "Declaration expected.";
     case 1155: return "'const' declarations must be initialized.";
+    case 1160: return "Unterminated template literal.";
     case 1161: return "Unterminated regular expression literal.";
     case 1176: return "Interface declaration cannot have 'implements' clause.";
     case 1177: return "Binary digit expected.";
@@ -219,21 +243,27 @@ export function diagnosticCodeToString(code: DiagnosticCode): string {
     case 2357: return "The operand of an increment or decrement operator must be a variable or a property access.";
     case 2364: return "The left-hand side of an assignment expression must be a variable or a property access.";
     case 2365: return "Operator '{0}' cannot be applied to types '{1}' and '{2}'.";
+    case 2370: return "A rest parameter must be of an array type.";
     case 2380: return "'get' and 'set' accessor must have the same type.";
     case 2390: return "Constructor implementation is missing.";
     case 2391: return "Function implementation is missing or not immediately following the declaration.";
     case 2392: return "Multiple constructor implementations are not allowed.";
     case 2393: return "Duplicate function implementation.";
     case 2395: return "Individual declarations in merged declaration '{0}' must be all exported or all local.";
+    case 2420: return "Class '{0}' incorrectly implements interface '{1}'.";
+    case 2422: return "A class can only implement an interface.";
     case 2460: return "Type '{0}' has no property '{1}'.";
+    case 2461: return "Type '{0}' is not an array type.";
     case 2469: return "The '{0}' operator cannot be applied to type '{1}'.";
     case 2474: return "In 'const' enum declarations member initializer must be constant expression.";
     case 2484: return "Export declaration conflicts with exported declaration of '{0}'.";
+    case 2493: return "Tuple type '{0}' of length '{1}' has no element at index '{2}'.";
     case 2540: return "Cannot assign to '{0}' because it is a constant or a read-only property.";
     case 2541: return "The target of an assignment must be a variable or a property access.";
     case 2542: return "Index signature in type '{0}' only permits reading.";
     case 2554: return "Expected {0} arguments, but got {1}.";
     case 2555: return "Expected at least {0} arguments, but got {1}.";
+    case 2556: return "A spread argument must either have a tuple type or be passed to a rest parameter.";
     case 2558: return "Expected {0} type arguments, but got {1}.";
     case 2651: return "A member initializer in a enum declaration cannot reference members declared after it, including members defined in other enums.";
     case 2673: return "Constructor of class '{0}' is private and only accessible within the class declaration.";
@@ -15,6 +15,7 @@ import {
   TypeNode,
   TypeParameterNode,
   SignatureNode,
+  TupleTypeNode,
 
   Expression,
   IdentifierExpression,
@@ -23,6 +24,7 @@ import {
   FloatLiteralExpression,
   IntegerLiteralExpression,
   StringLiteralExpression,
+  TemplateLiteralExpression,
   RegexpLiteralExpression,
   ArrayLiteralExpression,
   AssertionExpression,
@@ -35,6 +37,7 @@ import {
   NewExpression,
   ParenthesizedExpression,
   PropertyAccessExpression,
+  SpreadExpression,
   TernaryExpression,
   UnaryPostfixExpression,
   UnaryExpression,
@@ -52,6 +55,7 @@ import {
   ExportStatement,
   ExpressionStatement,
   ForStatement,
+  ForOfStatement,
   IfStatement,
   ImportStatement,
   InstanceOfExpression,
@@ -116,8 +120,9 @@ export class ASTBuilder {
 
       // types
 
-      case NodeKind.TYPE: {
-        this.visitTypeNode(<TypeNode>node);
+      case NodeKind.TYPE:
+      case NodeKind.TUPLETYPE: {
+        this.visitTypeNode(<CommonTypeNode>node);
         break;
       }
       case NodeKind.TYPEPARAMETER: {
@@ -185,6 +190,10 @@ export class ASTBuilder {
         this.visitPropertyAccessExpression(<PropertyAccessExpression>node);
         break;
       }
+      case NodeKind.SPREAD: {
+        this.visitSpreadExpression(<SpreadExpression>node);
+        break;
+      }
       case NodeKind.TERNARY: {
         this.visitTernaryExpression(<TernaryExpression>node);
         break;
@@ -236,6 +245,10 @@ export class ASTBuilder {
         this.visitForStatement(<ForStatement>node);
         break;
       }
+      case NodeKind.FOROF: {
+        this.visitForOfStatement(<ForOfStatement>node);
+        break;
+      }
       case NodeKind.IF: {
         this.visitIfStatement(<IfStatement>node);
         break;
@@ -352,6 +365,10 @@ export class ASTBuilder {
       this.visitSignatureNode(<SignatureNode>node);
       return;
     }
+    if (node.kind == NodeKind.TUPLETYPE) {
+      this.visitTupleTypeNode(<TupleTypeNode>node);
+      return;
+    }
     var typeNode = <TypeNode>node;
     this.visitIdentifierExpression(<IdentifierExpression>typeNode.name);
     var typeArguments = typeNode.typeArguments;
@@ -371,6 +388,18 @@ export class ASTBuilder {
     }
   }
 
+  visitTupleTypeNode(node: TupleTypeNode): void {
+    var elementTypes = node.elementTypes;
+    var sb = this.sb;
+    sb.push("[");
+    this.visitTypeNode(elementTypes[0]);
+    for (let i = 1, k = elementTypes.length; i < k; ++i) {
+      sb.push(", ");
+      this.visitTypeNode(elementTypes[i]);
+    }
+    sb.push("]");
+  }
+
   visitTypeParameter(node: TypeParameterNode): void {
     this.visitIdentifierExpression(node.name);
     var extendsType = node.extendsType;
@@ -581,6 +610,10 @@ export class ASTBuilder {
         this.visitObjectLiteralExpression(<ObjectLiteralExpression>node);
         break;
       }
+      case LiteralKind.TEMPLATE: {
+        this.visitTemplateLiteralExpression(<TemplateLiteralExpression>node);
+        break;
+      }
       default: {
         assert(false);
         break;
@@ -692,6 +725,58 @@ export class ASTBuilder {
     this.visitStringLiteral(node.value);
   }
 
+  visitTemplateLiteralExpression(node: TemplateLiteralExpression): void {
+    var sb = this.sb;
+    var parts = node.parts;
+    var expressions = node.expressions;
+    sb.push("`");
+    this.visitTemplateString(parts[0]);
+    for (let i = 0, k = expressions.length; i < k; ++i) {
+      sb.push("${"); // tslint:disable-line:no-invalid-template-strings
+      this.visitNode(expressions[i]);
+      sb.push("}");
+      this.visitTemplateString(parts[i + 1]);
+    }
+    sb.push("`");
+  }
+
+  visitTemplateString(str: string): void {
+    var sb = this.sb;
+    var off = 0;
+    var i = 0;
+    for (let k = str.length; i < k;) {
+      switch (str.charCodeAt(i)) {
+        case CharCode.BACKSLASH:
+        case CharCode.BACKTICK: {
+          if (i > off) sb.push(str.substring(off, i));
+          sb.push("\\");
+          off = i++;
+          break;
+        }
+        case CharCode.DOLLAR: {
+          if (i + 1 < k && str.charCodeAt(i + 1) == CharCode.OPENBRACE) {
+            if (i > off) sb.push(str.substring(off, i));
+            sb.push("\\");
+            off = i;
+          }
+          ++i;
+          break;
+        }
+        case CharCode.CARRIAGERETURN: {
+          if (i > off) sb.push(str.substring(off, i));
+          sb.push("\\r");
+          off = ++i;
+          break;
+        }
+        default: {
+          ++i;
+          break;
+        }
+      }
+    }
+    if (i > off) sb.push(str.substring(off, i));
+  }
+
   visitRegexpLiteralExpression(node: RegexpLiteralExpression): void {
     var sb = this.sb;
     sb.push("/");
@@ -718,6 +803,11 @@ export class ASTBuilder {
     this.visitIdentifierExpression(node.property);
   }
 
+  visitSpreadExpression(node: SpreadExpression): void {
+    this.sb.push("...");
+    this.visitNode(node.expression);
+  }
+
   visitTernaryExpression(node: TernaryExpression): void {
     var sb = this.sb;
     this.visitNode(node.condition);
@@ -1026,6 +1116,16 @@ export class ASTBuilder {
     this.visitNode(node.statement);
   }
 
+  visitForOfStatement(node: ForOfStatement): void {
+    var sb = this.sb;
+    sb.push("for (");
+    this.visitNode(node.variable);
+    sb.push(" of ");
+    this.visitNode(node.iterable);
+    sb.push(") ");
+    this.visitNode(node.statement);
+  }
+
   visitFunctionDeclaration(node: FunctionDeclaration): void {
     var sb = this.sb;
     var decorators = node.decorators;
@@ -14,7 +14,12 @@ import "./i64";
 import { Module } from "../../module";
 
 Module.prototype.toText = function(this: Module) {
-  return new binaryen.Module(this.ref).emitText();
+  var text = new binaryen.Module(this.ref).emitText();
+  if (this.sharedMemory) { // not yet known to Binaryen, see Module#toBinary
+    let end = text.indexOf(")", text.indexOf("(memory $0 "));
+    text = text.substring(0, end) + " shared" + text.substring(end);
+  }
+  return text;
 };
 
 Module.prototype.toAsmjs = function(this: Module) {
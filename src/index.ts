@@ -16,7 +16,8 @@ import {
 
 import {
   IDLBuilder,
-  TSDBuilder
+  TSDBuilder,
+  BindingsBuilder
 } from "./definitions";
 
 import {
@@ -128,6 +129,12 @@ export function setGlobalAlias(options: Options, name: string, alias: string): v
 export const FEATURE_SIGN_EXTENSION = Feature.SIGN_EXTENSION;
 /** Mutable global imports and exports. */
 export const FEATURE_MUTABLE_GLOBAL = Feature.MUTABLE_GLOBAL;
+/** Native exception handling. */
+export const FEATURE_EXCEPTION_HANDLING = Feature.EXCEPTION_HANDLING;
+/** Threads and atomic operations. */
+export const FEATURE_THREADS = Feature.THREADS;
+/** Multi-value results. */
+export const FEATURE_MULTI_VALUE = Feature.MULTI_VALUE;
 
 /** Enables a specific feature. */
 export function enableFeature(options: Options, feature: Feature): void {
@@ -167,5 +174,10 @@ export function buildTSD(program: Program): string {
   return TSDBuilder.build(program);
 }
 
+/** Builds JavaScript bindings for the specified program. */
+export function buildBindings(program: Program): string {
+  return BindingsBuilder.build(program);
+}
+
 /** Prefix indicating a library file. */
 export { LIBRARY_PREFIX } from "./common";
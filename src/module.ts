@@ -238,6 +238,13 @@ export class Module {
 
   ref: ModuleRef;
 
+  /**
+   * Whether the memory is shared. Not yet exposed by Binaryen's C-API, hence applied when emitting.
+   * Binaryen 52 adds a `shared` argument to `BinaryenSetMemory` and `BinaryenAddMemoryImport`,
+   * which makes this workaround obsolete.
+   */
+  sharedMemory: bool = false;
+
   private cachedByValue: usize;
 
   /** Maximum number of pages when targeting WASM32. */
@@ -246,6 +253,9 @@ export class Module {
   /** Maximum number of pages when targeting WASM64. */
   static readonly MAX_MEMORY_WASM64: Index = 0xffff; // TODO
 
+  /** Maximum number of pages of a shared memory, which engines reserve upfront. Must be explicit. */
+  static readonly MAX_SHARED_MEMORY: Index = 0x8000; // 2GB
+
   static create(): Module {
     var module = new Module();
     module.ref = _BinaryenModuleCreate();
@@ -662,6 +672,15 @@ export class Module {
     }
   }
 
+  getFunction(name: string): FunctionRef {
+    var cStr = allocString(name);
+    try {
+      return _BinaryenGetFunction(this.ref, cStr);
+    } finally {
+      memory.free(cStr);
+    }
+  }
+
   removeFunction(name: string): void {
     var cStr = allocString(name);
     try {
@@ -797,11 +816,13 @@ export class Module {
   addMemoryImport(
     internalName: string,
     externalModuleName: string,
-    externalBaseName: string
+    externalBaseName: string,
+    shared: bool = false
   ): ImportRef {
     var cStr1 = allocString(internalName);
     var cStr2 = allocString(externalModuleName);
     var cStr3 = allocString(externalBaseName);
+    if (shared) this.sharedMemory = true;
     try {
       return _BinaryenAddMemoryImport(this.ref, cStr1, cStr2, cStr3);
     } finally {
@@ -843,9 +864,11 @@ export class Module {
     maximum: Index,
     segments: MemorySegment[],
     target: Target,
-    exportName: string | null = null
+    exportName: string | null = null,
+    shared: bool = false
   ): void {
     var cStr = allocString(exportName);
+    this.sharedMemory = shared;
     var k = segments.length;
     var segs = new Array<usize>(k);
     var offs = new Array<ExpressionRef>(k);
@@ -908,6 +931,10 @@ export class Module {
     _BinaryenSetShrinkLevel(level);
   }
 
+  getDebugInfo(): bool {
+    return _BinaryenGetDebugInfo();
+  }
+
   setDebugInfo(on: bool = false): void {
     _BinaryenSetDebugInfo(on);
   }
@@ -972,6 +999,12 @@ export class Module {
   }
 
   validate(): bool {
+    if (this.sharedMemory) { // validate a copy that knows about it, i.e. to accept atomic operations
+      let copy = Module.createFrom(this.toBinary(null).output);
+      let valid = _BinaryenModuleValidate(copy.ref) == 1;
+      copy.dispose();
+      return valid;
+    }
     return _BinaryenModuleValidate(this.ref) == 1;
   }
 
@@ -991,6 +1024,7 @@ export class Module {
       sourceMapPtr = readInt(out + 4 * 2);
       let ret = new BinaryModule();
       ret.output = readBuffer(binaryPtr, binaryBytes);
+      if (this.sharedMemory) markMemoryShared(ret.output);
       ret.sourceMap = readString(sourceMapPtr);
       return ret;
     } finally {
@@ -1160,7 +1194,7 @@ export function getConstValueF32(expr: ExpressionRef): f32 {
   return _BinaryenConstGetValueF32(expr);
 }
 
-export function getConstValueF64(expr: ExpressionRef): f32 {
+export function getConstValueF64(expr: ExpressionRef): f64 {
   return _BinaryenConstGetValueF64(expr);
 }
 
@@ -1180,6 +1214,18 @@ export function isTeeLocal(expr: ExpressionRef): bool {
   return _BinaryenSetLocalIsTee(expr);
 }
 
+export function getGetGlobalName(expr: ExpressionRef): string | null {
+  return readString(_BinaryenGetGlobalGetName(expr));
+}
+
+export function getSetGlobalName(expr: ExpressionRef): string | null {
+  return readString(_BinaryenSetGlobalGetName(expr));
+}
+
+export function getSetGlobalValue(expr: ExpressionRef): ExpressionRef {
+  return _BinaryenSetGlobalGetValue(expr);
+}
+
 export function getBinaryOp(expr: ExpressionRef): BinaryOp {
   return _BinaryenBinaryGetOp(expr);
 }
@@ -1216,6 +1262,10 @@ export function isLoadSigned(expr: ExpressionRef): bool {
   return _BinaryenLoadIsSigned(expr);
 }
 
+export function isLoadAtomic(expr: ExpressionRef): bool {
+  return _BinaryenLoadIsAtomic(expr);
+}
+
 export function getStoreBytes(expr: ExpressionRef): u32 {
   return _BinaryenStoreGetBytes(expr);
 }
@@ -1232,6 +1282,10 @@ export function getStoreValue(expr: ExpressionRef): ExpressionRef {
   return _BinaryenStoreGetValue(expr);
 }
 
+export function isStoreAtomic(expr: ExpressionRef): bool {
+  return _BinaryenStoreIsAtomic(expr);
+}
+
 export function getBlockName(expr: ExpressionRef): string | null {
   return readString(_BinaryenBlockGetName(expr));
 }
@@ -1272,6 +1326,30 @@ export function getBreakCondition(expr: ExpressionRef): ExpressionRef {
   return _BinaryenBreakGetCondition(expr);
 }
 
+export function getBreakValue(expr: ExpressionRef): ExpressionRef {
+  return _BinaryenBreakGetValue(expr);
+}
+
+export function getSwitchNameCount(expr: ExpressionRef): Index {
+  return _BinaryenSwitchGetNumNames(expr);
+}
+
+export function getSwitchName(expr: ExpressionRef, index: Index): string | null {
+  return readString(_BinaryenSwitchGetName(expr, index));
+}
+
+export function getSwitchDefaultName(expr: ExpressionRef): string | null {
+  return readString(_BinaryenSwitchGetDefaultName(expr));
+}
+
+export function getSwitchCondition(expr: ExpressionRef): ExpressionRef {
+  return _BinaryenSwitchGetCondition(expr);
+}
+
+export function getSwitchValue(expr: ExpressionRef): ExpressionRef {
+  return _BinaryenSwitchGetValue(expr);
+}
+
 export function getSelectThen(expr: ExpressionRef): ExpressionRef {
   return _BinaryenSelectGetIfTrue(expr);
 }
@@ -1296,6 +1374,38 @@ export function getCallTarget(expr: ExpressionRef): string | null {
   return readString(_BinaryenCallGetTarget(expr));
 }
 
+export function getCallOperandCount(expr: ExpressionRef): Index {
+  return _BinaryenCallGetNumOperands(expr);
+}
+
+export function getCallOperand(expr: ExpressionRef, index: Index): ExpressionRef {
+  return _BinaryenCallGetOperand(expr, index);
+}
+
+export function getCallImportTarget(expr: ExpressionRef): string | null {
+  return readString(_BinaryenCallImportGetTarget(expr));
+}
+
+export function getCallImportOperandCount(expr: ExpressionRef): Index {
+  return _BinaryenCallImportGetNumOperands(expr);
+}
+
+export function getCallImportOperand(expr: ExpressionRef, index: Index): ExpressionRef {
+  return _BinaryenCallImportGetOperand(expr, index);
+}
+
+export function getCallIndirectTarget(expr: ExpressionRef): ExpressionRef {
+  return _BinaryenCallIndirectGetTarget(expr);
+}
+
+export function getCallIndirectOperandCount(expr: ExpressionRef): Index {
+  return _BinaryenCallIndirectGetNumOperands(expr);
+}
+
+export function getCallIndirectOperand(expr: ExpressionRef, index: Index): ExpressionRef {
+  return _BinaryenCallIndirectGetOperand(expr, index);
+}
+
 export function getHostOp(expr: ExpressionRef): ExpressionRef {
   return _BinaryenHostGetOp(expr);
 }
@@ -1305,13 +1415,79 @@ export function getHostOperandCount(expr: ExpressionRef): Index {
 }
 
 export function getHostOperand(expr: ExpressionRef, index: Index): ExpressionRef {
-  return _BinaryenHostGetOperand(expr, index);
+  // _BinaryenHostGetOperand asserts that the expression is a call in this version of Binaryen, so
+  // read the operand from the expression's list of operands, which follows its op and name operand
+  return readInt(readInt(expr + 16) + (index << 2));
 }
 
 export function getHostName(expr: ExpressionRef): string | null {
   return readString(_BinaryenHostGetNameOperand(expr));
 }
 
+export function getAtomicRMWOp(expr: ExpressionRef): AtomicRMWOp {
+  return _BinaryenAtomicRMWGetOp(expr);
+}
+
+export function getAtomicRMWBytes(expr: ExpressionRef): u32 {
+  return _BinaryenAtomicRMWGetBytes(expr);
+}
+
+export function getAtomicRMWOffset(expr: ExpressionRef): u32 {
+  return _BinaryenAtomicRMWGetOffset(expr);
+}
+
+export function getAtomicRMWPtr(expr: ExpressionRef): ExpressionRef {
+  return _BinaryenAtomicRMWGetPtr(expr);
+}
+
+export function getAtomicRMWValue(expr: ExpressionRef): ExpressionRef {
+  return _BinaryenAtomicRMWGetValue(expr);
+}
+
+export function getAtomicCmpxchgBytes(expr: ExpressionRef): u32 {
+  return _BinaryenAtomicCmpxchgGetBytes(expr);
+}
+
+export function getAtomicCmpxchgOffset(expr: ExpressionRef): u32 {
+  return _BinaryenAtomicCmpxchgGetOffset(expr);
+}
+
+export function getAtomicCmpxchgPtr(expr: ExpressionRef): ExpressionRef {
+  return _BinaryenAtomicCmpxchgGetPtr(expr);
+}
+
+export function getAtomicCmpxchgExpected(expr: ExpressionRef): ExpressionRef {
+  return _BinaryenAtomicCmpxchgGetExpected(expr);
+}
+
+export function getAtomicCmpxchgReplacement(expr: ExpressionRef): ExpressionRef {
+  return _BinaryenAtomicCmpxchgGetReplacement(expr);
+}
+
+export function getAtomicWaitPtr(expr: ExpressionRef): ExpressionRef {
+  return _BinaryenAtomicWaitGetPtr(expr);
+}
+
+export function getAtomicWaitExpected(expr: ExpressionRef): ExpressionRef {
+  return _BinaryenAtomicWaitGetExpected(expr);
+}
+
+export function getAtomicWaitTimeout(expr: ExpressionRef): ExpressionRef {
+  return _BinaryenAtomicWaitGetTimeout(expr);
+}
+
+export function getAtomicWaitExpectedType(expr: ExpressionRef): NativeType {
+  return _BinaryenAtomicWaitGetExpectedType(expr);
+}
+
+export function getAtomicWakePtr(expr: ExpressionRef): ExpressionRef {
+  return _BinaryenAtomicWakeGetPtr(expr);
+}
+
+export function getAtomicWakeCount(expr: ExpressionRef): ExpressionRef {
+  return _BinaryenAtomicWakeGetWakeCount(expr);
+}
+
 // functions
 
 export function getFunctionBody(func: FunctionRef): ExpressionRef {
@@ -1334,6 +1510,14 @@ export function getFunctionResultType(func: FunctionRef): NativeType {
   return _BinaryenFunctionGetResult(func);
 }
 
+export function getFunctionVarCount(func: FunctionRef): Index {
+  return _BinaryenFunctionGetNumVars(func);
+}
+
+export function getFunctionVarType(func: FunctionRef, index: Index): NativeType {
+  return _BinaryenFunctionGetVar(func, index);
+}
+
 export class Relooper {
 
   module: Module;
@@ -1577,6 +1761,64 @@ export function readString(ptr: usize): string | null {
   return String.fromCodePoints(arr);
 }
 
+var readULEB_value: u32 = 0;
+
+// reads an unsigned LEB128 integer to `readULEB_value`, returning the offset past it
+function readULEB(buffer: Uint8Array, offset: i32): i32 {
+  var value: u32 = 0;
+  var shift: u32 = 0;
+  var b: u32;
+  do {
+    b = buffer[offset++];
+    value |= (b & 0x7F) << shift;
+    shift += 7;
+  } while (b & 0x80);
+  readULEB_value = value;
+  return offset;
+}
+
+// sets the shared flag of the memory defined or imported by the specified binary. Shared memories
+// have an explicit maximum, so the flags byte is just updated and the binary does not change in size.
+function markMemoryShared(binary: Uint8Array): void {
+  var length = binary.length;
+  var offset = 8; // magic and version
+  while (offset < length) {
+    let id = binary[offset++];
+    offset = readULEB(binary, offset);
+    let end = offset + readULEB_value;
+    if (id == 2) { // imports
+      offset = readULEB(binary, offset);
+      for (let count = readULEB_value; count; --count) {
+        offset = readULEB(binary, offset);
+        offset += readULEB_value; // module name
+        offset = readULEB(binary, offset);
+        offset += readULEB_value; // field name
+        let kind = binary[offset++];
+        if (kind == 2) { // memory
+          assert(binary[offset] == 1); // has maximum
+          binary[offset] = 3; // has maximum, shared
+          return;
+        }
+        if (kind == 0) { // function: type index
+          offset = readULEB(binary, offset);
+        } else if (kind == 1) { // table: element type, limits
+          let flags = binary[offset + 1];
+          offset = readULEB(binary, offset + 2);
+          if (flags & 1) offset = readULEB(binary, offset);
+        } else { // global: value type, mutability
+          offset += 2;
+        }
+      }
+    } else if (id == 5) { // memories
+      offset = readULEB(binary, offset);
+      assert(binary[offset] == 1); // has maximum
+      binary[offset] = 3; // has maximum, shared
+      return;
+    }
+    offset = end;
+  }
+}
+
 /** Result structure of {@link Module#toBinary}. */
 export class BinaryModule {
   /** WebAssembly binary. */
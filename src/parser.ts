@@ -46,6 +46,7 @@ import {
   FunctionExpression,
   IdentifierExpression,
   StringLiteralExpression,
+  TemplateLiteralExpression,
 
   Statement,
   BlockStatement,
@@ -62,6 +63,7 @@ import {
   ExportStatement,
   ExpressionStatement,
   ForStatement,
+  ForOfStatement,
   FunctionDeclaration,
   IfStatement,
   ImportDeclaration,
@@ -99,6 +101,10 @@ export class Parser extends DiagnosticEmitter {
   donelog: Set<string> = new Set();
   /** Optional handler to intercept comments while tokenizing. */
   onComment: CommentHandler | null = null;
+  /** Names referenced within closures, by enclosing function respectively source being parsed. */
+  private capturedNames: Set<string>[] = [];
+  /** Whether the respective function being parsed is a closure. */
+  private isClosure: bool[] = [];
 
   /** Constructs a new parser. */
   constructor() {
@@ -138,6 +144,7 @@ export class Parser extends DiagnosticEmitter {
     tn.onComment = this.onComment;
     source.tokenizer = tn;
     var statements = source.statements;
+    this.enterFunction(false);
     while (!tn.skip(Token.ENDOFFILE)) {
       let statement = this.parseTopLevelStatement(tn);
       if (statement) {
@@ -145,9 +152,35 @@ export class Parser extends DiagnosticEmitter {
         statements.push(statement);
       }
     }
+    source.capturedNames = this.leaveFunction();
     tn.finish();
   }
 
+  /** Enters the body of a function, or of a source's top-level statements. */
+  private enterFunction(isClosure: bool): void {
+    this.capturedNames.push(new Set());
+    this.isClosure.push(isClosure);
+  }
+
+  /** Leaves the body of a function and returns the names of locals possibly captured by closures. */
+  private leaveFunction(): Set<string> | null {
+    var capturedNames = assert(this.capturedNames.pop());
+    this.isClosure.pop();
+    return capturedNames.size ? capturedNames : null;
+  }
+
+  /** Notes a reference to the specified name, possibly capturing a local of an outer function. */
+  private noteReference(name: string): void {
+    var capturedNames = this.capturedNames;
+    var isClosure = this.isClosure;
+    var withinClosure = false;
+    for (let i = capturedNames.length - 1; i >= 0; --i) {
+      if (withinClosure) capturedNames[i].add(name);
+      if (!isClosure[i]) break; // locals of further outer functions are not accessible
+      withinClosure = true;
+    }
+  }
+
   /** Parses a top-level statement. */
   parseTopLevelStatement(
     tn: Tokenizer,
@@ -427,6 +460,25 @@ export class Parser extends DiagnosticEmitter {
         return null;
       }
 
+    // '[' Type (',' Type)* ']'
+    } else if (token == Token.OPENBRACKET) {
+      let elementTypes = new Array<CommonTypeNode>();
+      do {
+        let elementType = this.parseType(tn, true, suppressErrors);
+        if (!elementType) return null;
+        elementTypes.push(elementType);
+      } while (tn.skip(Token.COMMA));
+      if (!tn.skip(Token.CLOSEBRACKET)) {
+        if (!suppressErrors) {
+          this.error(
+            DiagnosticCode._0_expected,
+            tn.range(tn.pos), "]"
+          );
+        }
+        return null;
+      }
+      type = Node.createTupleType(elementTypes, tn.range(startPos, tn.pos));
+
     // 'void'
     } else if (token == Token.VOID) {
       type = Node.createType(
@@ -760,6 +812,18 @@ export class Parser extends DiagnosticEmitter {
 
     // before: Identifier (':' Type)? ('=' Expression)?
 
+    var token = tn.peek();
+    if (token == Token.OPENBRACKET || token == Token.OPENBRACE) {
+      let pattern = this.parseExpression(tn, Precedence.ASSIGNMENT + 1);
+      if (pattern) {
+        this.error(
+          DiagnosticCode.Destructuring_declarations_are_not_supported,
+          pattern.range
+        );
+        if (tn.skip(Token.EQUALS)) this.parseExpression(tn, Precedence.COMMA + 1);
+      }
+      return null;
+    }
     if (!tn.skipIdentifier()) {
       this.error(
         DiagnosticCode.Identifier_expected,
@@ -1279,6 +1343,7 @@ export class Parser extends DiagnosticEmitter {
     );
 
     var body: Statement | null = null;
+    var capturedNames: Set<string> | null = null;
     if (tn.skip(Token.OPENBRACE)) {
       if (flags & CommonFlags.AMBIENT) {
         this.error(
@@ -1287,7 +1352,9 @@ export class Parser extends DiagnosticEmitter {
         ); // recoverable
       }
 
+      this.enterFunction(false);
       body = this.parseBlockStatement(tn, false);
+      capturedNames = this.leaveFunction();
       if (!body) return null;
     } else if (!(flags & CommonFlags.AMBIENT)) {
       this.error(
@@ -1305,6 +1372,7 @@ export class Parser extends DiagnosticEmitter {
       flags,
       tn.range(startPos, tn.pos)
     );
+    ret.capturedNames = capturedNames;
     tn.skip(Token.SEMICOLON);
     return ret;
   }
@@ -1395,6 +1463,7 @@ export class Parser extends DiagnosticEmitter {
 
     var body: Statement | null;
     if (isArrow) {
+      this.enterFunction(true);
       body = this.parseStatement(tn, false);
     } else {
       if (!tn.skip(Token.OPENBRACE)) {
@@ -1404,8 +1473,10 @@ export class Parser extends DiagnosticEmitter {
         );
         return null;
       }
+      this.enterFunction(true);
       body = this.parseBlockStatement(tn, false);
     }
+    var capturedNames = this.leaveFunction();
     if (!body) return null;
 
     var declaration = Node.createFunctionDeclaration(
@@ -1417,6 +1488,7 @@ export class Parser extends DiagnosticEmitter {
       isArrow ? CommonFlags.ARROW : CommonFlags.NONE,
       tn.range(startPos, tn.pos)
     );
+    declaration.capturedNames = capturedNames;
     return Node.createFunctionExpression(declaration);
   }
 
@@ -1660,7 +1732,7 @@ export class Parser extends DiagnosticEmitter {
             tn.range(), "abstract"
           );
         }
-        flags |= CommonFlags.ABSTRACT;
+        flags |= CommonFlags.ABSTRACT | CommonFlags.VIRTUAL; // implemented by derived classes
         abstractStart = tn.tokenPos;
         abstractEnd = tn.pos;
       }
@@ -1857,6 +1929,7 @@ export class Parser extends DiagnosticEmitter {
       );
 
       let body: Statement | null = null;
+      let capturedNames: Set<string> | null = null;
       if (tn.skip(Token.OPENBRACE)) {
         if (flags & CommonFlags.AMBIENT) {
           this.error(
@@ -1869,9 +1942,11 @@ export class Parser extends DiagnosticEmitter {
             tn.range(), name.text
           ); // recoverable
         }
+        this.enterFunction(false);
         body = this.parseBlockStatement(tn, false);
+        capturedNames = this.leaveFunction();
         if (!body) return null;
-      } else if (!(flags & CommonFlags.AMBIENT) && !isInterface) {
+      } else if (!(flags & (CommonFlags.AMBIENT | CommonFlags.ABSTRACT)) && !isInterface) {
         this.error(
           DiagnosticCode.Function_implementation_is_missing_or_not_immediately_following_the_declaration,
           tn.range()
@@ -1887,6 +1962,7 @@ export class Parser extends DiagnosticEmitter {
         flags,
         tn.range(startPos, tn.pos)
       );
+      retMethod.capturedNames = capturedNames;
       tn.skip(Token.SEMICOLON);
       return retMethod;
 
@@ -2488,7 +2564,7 @@ export class Parser extends DiagnosticEmitter {
 
   parseForStatement(
     tn: Tokenizer
-  ): ForStatement | null {
+  ): ForStatement | ForOfStatement | null {
 
     // at 'for': '(' Statement? Expression? ';' Expression? ')' Statement
 
@@ -2496,13 +2572,22 @@ export class Parser extends DiagnosticEmitter {
 
     if (tn.skip(Token.OPENPAREN)) {
       let initializer: Statement | null = null;
+      let isVariable = true;
+      let flags = CommonFlags.NONE;
 
       if (tn.skip(Token.CONST)) {
-        initializer = this.parseVariable(tn, CommonFlags.CONST, null, tn.tokenPos);
+        flags = CommonFlags.CONST;
       } else if (tn.skip(Token.LET)) {
-        initializer = this.parseVariable(tn, CommonFlags.LET, null, tn.tokenPos);
-      } else if (tn.skip(Token.VAR)) {
-        initializer = this.parseVariable(tn, CommonFlags.NONE, null, tn.tokenPos);
+        flags = CommonFlags.LET;
+      } else if (!tn.skip(Token.VAR)) {
+        isVariable = false;
+      }
+
+      if (isVariable) {
+        let variableStartPos = tn.tokenPos;
+        let variable = this.tryParseForOfVariable(tn, flags, variableStartPos);
+        if (variable) return this.parseForOfStatement(tn, variable, startPos);
+        initializer = this.parseVariable(tn, flags, null, variableStartPos);
 
       } else if (!tn.skip(Token.SEMICOLON)) {
         initializer = this.parseExpressionStatement(tn);
@@ -2565,6 +2650,60 @@ export class Parser extends DiagnosticEmitter {
     return null;
   }
 
+  /** Parses the variable of a `for...of` statement, if it is one, without reporting otherwise. */
+  private tryParseForOfVariable(
+    tn: Tokenizer,
+    flags: CommonFlags,
+    startPos: i32
+  ): VariableStatement | null {
+
+    // at ('const' | 'let' | 'var'): Identifier (':' Type)? 'of'
+
+    var state = tn.mark();
+    if (tn.skipIdentifier()) {
+      let identifier = Node.createIdentifierExpression(tn.readIdentifier(), tn.range());
+      let type: CommonTypeNode | null = null;
+      if (!tn.skip(Token.COLON) || (type = this.parseType(tn, true, true))) {
+        if (tn.skip(Token.OF)) {
+          tn.discard(state);
+          let declaration = Node.createVariableDeclaration(
+            identifier,
+            type,
+            null,
+            null,
+            flags,
+            Range.join(identifier.range, type ? type.range : identifier.range)
+          );
+          return Node.createVariableStatement([ declaration ], null, flags, tn.range(startPos, declaration.range.end));
+        }
+      }
+    }
+    tn.reset(state);
+    return null;
+  }
+
+  parseForOfStatement(
+    tn: Tokenizer,
+    variable: VariableStatement,
+    startPos: i32
+  ): ForOfStatement | null {
+
+    // at 'of': Expression ')' Statement
+
+    var iterable = this.parseExpression(tn);
+    if (!iterable) return null;
+    if (!tn.skip(Token.CLOSEPAREN)) {
+      this.error(
+        DiagnosticCode._0_expected,
+        tn.range(), ")"
+      );
+      return null;
+    }
+    var statement = this.parseStatement(tn);
+    if (!statement) return null;
+    return Node.createForOfStatement(variable, iterable, statement, tn.range(startPos, tn.pos));
+  }
+
   parseIfStatement(
     tn: Tokenizer
   ): IfStatement | null {
@@ -2802,6 +2941,7 @@ export class Parser extends DiagnosticEmitter {
         tn.range(startPos, tn.pos)
       );
       tn.skip(Token.SEMICOLON);
+      tn.source.hasTryStatement = true;
       return ret;
     } else {
       this.error(
@@ -2915,7 +3055,7 @@ export class Parser extends DiagnosticEmitter {
     if (precedence != Precedence.NONE) {
       let operand: Expression | null;
 
-      // TODO: SpreadExpression, YieldExpression (currently become unsupported UnaryPrefixExpressions)
+      // TODO: YieldExpression (currently becomes an unsupported UnaryPrefixExpression)
 
       // NewExpression
       if (token == Token.NEW) {
@@ -2940,6 +3080,11 @@ export class Parser extends DiagnosticEmitter {
         if (!operand) return null;
       }
 
+      // SpreadExpression
+      if (token == Token.DOT_DOT_DOT) {
+        return Node.createSpreadExpression(operand, tn.range(startPos, tn.pos));
+      }
+
       // UnaryPrefixExpression
       if (token == Token.PLUS_PLUS || token == Token.MINUS_MINUS) {
         if (
@@ -3133,7 +3278,9 @@ export class Parser extends DiagnosticEmitter {
         );
       }
       case Token.IDENTIFIER: {
-        return Node.createIdentifierExpression(tn.readIdentifier(), tn.range(startPos, tn.pos));
+        let identifier = Node.createIdentifierExpression(tn.readIdentifier(), tn.range(startPos, tn.pos));
+        this.noteReference(identifier.text);
+        return identifier;
       }
       case Token.THIS: {
         return Node.createThisExpression(tn.range(startPos, tn.pos));
@@ -3147,6 +3294,9 @@ export class Parser extends DiagnosticEmitter {
       case Token.STRINGLITERAL: {
         return Node.createStringLiteralExpression(tn.readString(), tn.range(startPos, tn.pos));
       }
+      case Token.TEMPLATELITERAL: {
+        return this.parseTemplateLiteral(tn, startPos);
+      }
       case Token.INTEGERLITERAL: {
         return Node.createIntegerLiteralExpression(tn.readInteger(), tn.range(startPos, tn.pos));
       }
@@ -3193,6 +3343,32 @@ export class Parser extends DiagnosticEmitter {
     }
   }
 
+  parseTemplateLiteral(
+    tn: Tokenizer,
+    startPos: i32
+  ): TemplateLiteralExpression | null {
+
+    // at '`': (TemplateString '${' Expression '}')* TemplateString '`'
+
+    var parts = new Array<string>();
+    var expressions = new Array<Expression>();
+    parts.push(tn.readTemplateString()); // also reports
+    while (tn.templateSubstitutionFollows) {
+      let expression = this.parseExpression(tn);
+      if (!expression) return null;
+      expressions.push(expression);
+      if (!tn.skip(Token.CLOSEBRACE)) {
+        this.error(
+          DiagnosticCode._0_expected,
+          tn.range(), "}"
+        );
+        return null;
+      }
+      parts.push(tn.readTemplateString());
+    }
+    return Node.createTemplateLiteralExpression(parts, expressions, tn.range(startPos, tn.pos));
+  }
+
   tryParseTypeArgumentsBeforeArguments(
     tn: Tokenizer
   ): CommonTypeNode[] | null {
@@ -3270,6 +3446,18 @@ export class Parser extends DiagnosticEmitter {
       }
     }
 
+    // TaggedTemplateExpression?
+    if (tn.skip(Token.TEMPLATELITERAL)) {
+      let templateStartPos = tn.tokenPos;
+      let template = this.parseTemplateLiteral(tn, templateStartPos);
+      if (!template) return null;
+      this.error(
+        DiagnosticCode.Tagged_template_literals_are_not_supported,
+        tn.range(startPos, tn.pos)
+      );
+      expr = template;
+    }
+
     var token: Token;
     var next: Expression | null = null;
     var nextPrecedence: Precedence;
@@ -3448,6 +3636,10 @@ export class Parser extends DiagnosticEmitter {
           tn.readString();
           break;
         }
+        case Token.TEMPLATELITERAL: {
+          tn.readTemplateString();
+          break;
+        }
         case Token.INTEGERLITERAL: {
           tn.readInteger();
           break;
@@ -3492,6 +3684,10 @@ export class Parser extends DiagnosticEmitter {
           tn.readString();
           break;
         }
+        case Token.TEMPLATELITERAL: {
+          tn.readTemplateString();
+          break;
+        }
         case Token.INTEGERLITERAL: {
           tn.readInteger();
           break;
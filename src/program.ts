@@ -43,10 +43,14 @@ import {
   DecoratorKind,
 
   Expression,
+  CallExpression,
   IdentifierExpression,
   LiteralExpression,
   LiteralKind,
+  PropertyAccessExpression,
   StringLiteralExpression,
+  Statement,
+  ParameterKind,
 
   ClassDeclaration,
   DeclarationStatement,
@@ -104,6 +108,10 @@ import {
   getConstValueI64Low
 } from "./module";
 
+import {
+  Token
+} from "./tokenizer";
+
 import {
   CharCode
 } from "./util";
@@ -327,6 +335,8 @@ export class Program extends DiagnosticEmitter {
   fileLevelExports: Map<string,Element> = new Map();
   /** Module-level exports by exported name. */
   moduleLevelExports: Map<string,ModuleExport> = new Map();
+  /** Names of the exports added by the compiler itself, like the memory and the function table. */
+  compilerExports: Set<string> = new Set();
 
   /** ArrayBuffer instance reference. */
   arrayBufferInstance: Class | null = null;
@@ -334,6 +344,8 @@ export class Program extends DiagnosticEmitter {
   arrayPrototype: ClassPrototype | null = null;
   /** String instance reference. */
   stringInstance: Class | null = null;
+  /** Error instance reference. */
+  errorInstance: Class | null = null;
   /** Start function reference. */
   startFunction: FunctionPrototype;
   /** Main function reference, if present. */
@@ -343,6 +355,9 @@ export class Program extends DiagnosticEmitter {
   /** Memory allocation function. */
   memoryAllocateInstance: Function | null = null;
 
+  /** Whether any source contains a `try` statement, requiring exceptions to propagate. */
+  hasExceptionHandling: bool = false;
+
   /** Whether a garbage collector is present or not. */
   hasGC: bool = false;
   /** Garbage collector allocation function. */
@@ -355,6 +370,10 @@ export class Program extends DiagnosticEmitter {
   gcHeaderSize: u32 = 0;
   /** Offset of the GC hook. */
   gcHookOffset: u32 = 0;
+  /** Size of the header preceding unmanaged instances of classes carrying a runtime class id. */
+  classIdHeaderSize: u32 = 8;
+  /** Next runtime class id to assign. */
+  nextClassId: u32 = 1;
 
   /** Currently processing filespace. */
   currentFilespace: Filespace;
@@ -428,6 +447,12 @@ export class Program extends DiagnosticEmitter {
       i64_new(options.hasFeature(Feature.MUTABLE_GLOBAL) ? 1 : 0, 0));
     this.setConstantInteger("ASC_FEATURE_SIGN_EXTENSION", Type.bool,
       i64_new(options.hasFeature(Feature.SIGN_EXTENSION) ? 1 : 0, 0));
+    this.setConstantInteger("ASC_FEATURE_EXCEPTION_HANDLING", Type.bool,
+      i64_new(options.hasFeature(Feature.EXCEPTION_HANDLING) ? 1 : 0, 0));
+    this.setConstantInteger("ASC_FEATURE_THREADS", Type.bool,
+      i64_new(options.hasFeature(Feature.THREADS) ? 1 : 0, 0));
+    this.setConstantInteger("ASC_FEATURE_MULTI_VALUE", Type.bool,
+      i64_new(options.hasFeature(Feature.MULTI_VALUE) ? 1 : 0, 0));
 
     // remember deferred elements
     var queuedImports = new Array<QueuedImport>();
@@ -439,6 +464,9 @@ export class Program extends DiagnosticEmitter {
     for (let i = 0, k = this.sources.length; i < k; ++i) {
       let source = this.sources[i];
 
+      // exceptions must propagate if any source catches them
+      if (source.hasTryStatement) this.hasExceptionHandling = true;
+
       // create one filespace per source
       let filespace = new Filespace(this, source);
       this.elementsLookup.set(filespace.internalName, filespace);
@@ -594,6 +622,29 @@ export class Program extends DiagnosticEmitter {
       }
     }
 
+    // mark overridden methods as virtual and classes within hierarchies as carrying a runtime class id,
+    // except for unmanaged hierarchies that must keep their raw layout and hence dispatch statically
+    for (let i = 0, k = queuedExtends.length; i < k; ++i) {
+      let derivedPrototype = queuedExtends[i];
+      let basePrototype = derivedPrototype.basePrototype;
+      if (!basePrototype || derivedPrototype.hasDecorator(DecoratorFlags.UNMANAGED)) continue;
+      derivedPrototype.set(CommonFlags.VIRTUAL);
+      let derivedMembers = derivedPrototype.instanceMembers;
+      do {
+        basePrototype.set(CommonFlags.VIRTUAL);
+        let baseMembers = basePrototype.instanceMembers;
+        if (derivedMembers && baseMembers) {
+          for (let [name, derivedMember] of derivedMembers) {
+            let baseMember = baseMembers.get(name);
+            if (baseMember && baseMember.kind == derivedMember.kind) this.markOverridden(baseMember);
+          }
+        }
+      } while (basePrototype = basePrototype.basePrototype);
+    }
+    for (let i = 0, k = queuedImplements.length; i < k; ++i) {
+      queuedImplements[i].set(CommonFlags.VIRTUAL);
+    }
+
     // set up global aliases
     {
       let globalAliases = options.globalAliases;
@@ -640,6 +691,13 @@ export class Program extends DiagnosticEmitter {
       }
     }
 
+    // register 'Error'
+    if (this.elementsLookup.has("Error")) {
+      let element = assert(this.elementsLookup.get("Error"));
+      assert(element.kind == ElementKind.CLASS_PROTOTYPE);
+      this.errorInstance = resolver.resolveClass(<ClassPrototype>element, null);
+    }
+
     // register 'start'
     {
       let element = assert(this.elementsLookup.get("start"));
@@ -721,11 +779,28 @@ export class Program extends DiagnosticEmitter {
       this.gcMarkInstance = gcMarkInstance;
       let gcHookOffset = 2 * options.usizeType.byteSize; // .next + .prev
       this.gcHookOffset =  gcHookOffset;
-      this.gcHeaderSize = (gcHookOffset + 4 + 7) & ~7;   // + .hook index + alignment
+      this.gcHeaderSize = (gcHookOffset + 4 + 4 + 7) & ~7; // + .hook index + .class id + alignment
       this.hasGC = true;
     }
   }
 
+  /** Marks an instance method or property that is overridden in a derived class as virtual. */
+  private markOverridden(member: Element): void {
+    switch (member.kind) {
+      case ElementKind.FUNCTION_PROTOTYPE: {
+        member.set(CommonFlags.VIRTUAL);
+        break;
+      }
+      case ElementKind.PROPERTY: {
+        let getterPrototype = (<Property>member).getterPrototype;
+        if (getterPrototype) getterPrototype.set(CommonFlags.VIRTUAL);
+        let setterPrototype = (<Property>member).setterPrototype;
+        if (setterPrototype) setterPrototype.set(CommonFlags.VIRTUAL);
+        break;
+      }
+    }
+  }
+
   /** Sets a constant integer value. */
   setConstantInteger(globalName: string, type: Type, value: I64): void {
     assert(type.is(TypeFlags.INTEGER));
@@ -865,13 +940,22 @@ export class Program extends DiagnosticEmitter {
         ? this.checkDecorators(decorators,
             DecoratorFlags.GLOBAL |
             DecoratorFlags.SEALED |
-            DecoratorFlags.UNMANAGED
+            DecoratorFlags.UNMANAGED |
+            DecoratorFlags.SERIALIZABLE
           )
         : DecoratorFlags.NONE
     );
     prototype.parent = namespace;
     this.elementsLookup.set(internalName, prototype);
 
+    // generate JSON encode/decode members if annotated
+    if (prototype.hasDecorator(DecoratorFlags.SERIALIZABLE)) {
+      this.initializeSerializable(
+        declaration,
+        assert(findDecorator(DecoratorKind.SERIALIZABLE, decorators)).range
+      );
+    }
+
     var implementsTypes = declaration.implementsTypes;
     if (implementsTypes) {
       let numImplementsTypes = implementsTypes.length;
@@ -888,12 +972,6 @@ export class Program extends DiagnosticEmitter {
 
       // remember classes that implement interfaces
       } else if (numImplementsTypes) {
-        for (let i = 0; i < numImplementsTypes; ++i) {
-          this.warning( // TODO
-            DiagnosticCode.Operation_not_supported,
-            implementsTypes[i].range
-          );
-        }
         queuedImplements.push(prototype);
       }
     }
@@ -974,6 +1052,124 @@ export class Program extends DiagnosticEmitter {
     this.checkGlobal(prototype, declaration);
   }
 
+  /**
+   * Generates the `toJSON(): JSONValue` and `fromJSON(value: JSONValue): void` members of a class
+   * annotated `@serializable`, encoding respectively decoding each instance field through
+   * `JSON.encode<T>` and `JSON.decode<T>`. Fields missing from the decoded value keep their
+   * current value. Members of a base class are handled by its own generated members, so bases of
+   * serializable classes must be serializable as well.
+   */
+  private initializeSerializable(declaration: ClassDeclaration, range: Range): void {
+    var flags = CommonFlags.INSTANCE;
+    if (declaration.is(CommonFlags.GENERIC)) flags |= CommonFlags.GENERIC_CONTEXT;
+    var hasBase = declaration.extendsType !== null;
+    var encodeStatements = new Array<Statement>();
+    var decodeStatements = new Array<Statement>();
+
+    // var object = super.toJSON() or JSONValue.createObject()
+    encodeStatements.push(
+      Node.createVariableStatement([
+        Node.createVariableDeclaration(
+          Node.createIdentifierExpression("object", range),
+          null,
+          hasBase
+            ? createMemberCall(Node.createSuperExpression(range), "toJSON", null, [], range)
+            : createMemberCall(Node.createIdentifierExpression("JSONValue", range), "createObject", null, [], range),
+          null, CommonFlags.NONE, range
+        )
+      ], null, CommonFlags.NONE, range)
+    );
+    // super.fromJSON(value)
+    if (hasBase) {
+      decodeStatements.push(
+        Node.createExpressionStatement(
+          createMemberCall(Node.createSuperExpression(range), "fromJSON", null, [
+            Node.createIdentifierExpression("value", range)
+          ], range)
+        )
+      );
+    }
+
+    var members = declaration.members;
+    for (let i = 0, k = members.length; i < k; ++i) {
+      let member = members[i];
+      if (member.kind != NodeKind.FIELDDECLARATION || member.is(CommonFlags.STATIC)) continue;
+      let type = (<FieldDeclaration>member).type;
+      if (!type) {
+        this.error(
+          DiagnosticCode.Type_expected,
+          member.name.range
+        );
+        continue;
+      }
+      let name = member.name.text;
+      // object.set("name", JSON.encode<T>(this.name))
+      encodeStatements.push(
+        Node.createExpressionStatement(
+          createMemberCall(Node.createIdentifierExpression("object", range), "set", null, [
+            Node.createStringLiteralExpression(name, range),
+            createMemberCall(Node.createIdentifierExpression("JSON", range), "encode", [ type ], [
+              createFieldAccess(name, range)
+            ], range)
+          ], range)
+        )
+      );
+      // if (value.has("name")) this.name = JSON.decode<T>(value.get("name"))
+      decodeStatements.push(
+        Node.createIfStatement(
+          createMemberCall(Node.createIdentifierExpression("value", range), "has", null, [
+            Node.createStringLiteralExpression(name, range)
+          ], range),
+          Node.createExpressionStatement(
+            Node.createBinaryExpression(Token.EQUALS,
+              createFieldAccess(name, range),
+              createMemberCall(Node.createIdentifierExpression("JSON", range), "decode", [ type ], [
+                createMemberCall(Node.createIdentifierExpression("value", range), "get", null, [
+                  Node.createStringLiteralExpression(name, range)
+                ], range)
+              ], range),
+              range
+            )
+          ),
+          null,
+          range
+        )
+      );
+    }
+    // return object
+    encodeStatements.push(
+      Node.createReturnStatement(Node.createIdentifierExpression("object", range), range)
+    );
+
+    var encodeMethod = Node.createMethodDeclaration(
+      Node.createIdentifierExpression("toJSON", range),
+      null,
+      Node.createSignature([],
+        Node.createType(Node.createIdentifierExpression("JSONValue", range), null, false, range),
+        null, false, range
+      ),
+      Node.createBlockStatement(encodeStatements, range),
+      null, flags, range
+    );
+    var decodeMethod = Node.createMethodDeclaration(
+      Node.createIdentifierExpression("fromJSON", range),
+      null,
+      Node.createSignature([
+        Node.createParameter(
+          Node.createIdentifierExpression("value", range),
+          Node.createType(Node.createIdentifierExpression("JSONValue", range), null, false, range),
+          null, ParameterKind.DEFAULT, range
+        )
+      ], Node.createType(Node.createIdentifierExpression("void", range), null, false, range), null, false, range),
+      Node.createBlockStatement(decodeStatements, range),
+      null, flags, range
+    );
+    encodeMethod.parent = declaration;
+    decodeMethod.parent = declaration;
+    members.push(encodeMethod);
+    members.push(decodeMethod);
+  }
+
   /** Initializes a field of a class or interface. */
   private initializeField(
     declaration: FieldDeclaration,
@@ -2130,7 +2326,21 @@ export enum DecoratorFlags {
   /** Is using a different external name. */
   EXTERNAL = 1 << 7,
   /** Is a builtin. */
-  BUILTIN = 1 << 8
+  BUILTIN = 1 << 8,
+  /** Is a class with generated JSON encode/decode members. */
+  SERIALIZABLE = 1 << 9
+}
+
+/** Runtime type information flags of a class as present in the RTTI table. */
+export const enum RTTIFlags {
+  /** No flags set. */
+  NONE = 0,
+  /** Is an interface. */
+  INTERFACE = 1 << 0,
+  /** Is a managed class. */
+  MANAGED = 1 << 1,
+  /** Instances carry the runtime class id in their header. */
+  HEADER = 1 << 2
 }
 
 export function decoratorKindToFlag(kind: DecoratorKind): DecoratorFlags {
@@ -2145,6 +2355,7 @@ export function decoratorKindToFlag(kind: DecoratorKind): DecoratorFlags {
     case DecoratorKind.INLINE: return DecoratorFlags.INLINE;
     case DecoratorKind.EXTERNAL: return DecoratorFlags.EXTERNAL;
     case DecoratorKind.BUILTIN: return DecoratorFlags.BUILTIN;
+    case DecoratorKind.SERIALIZABLE: return DecoratorFlags.SERIALIZABLE;
     default: return DecoratorFlags.NONE;
   }
 }
@@ -2367,6 +2578,12 @@ export class Local extends VariableLikeElement {
   index: i32;
   /** Respective scoped global, if any. */
   scopedGlobal: Global | null = null;
+  /** Offset within the environment of its function if captured by a closure, otherwise `-1`. */
+  envOffset: i32 = -1;
+  /** Function whose environment holds this local, if captured by a closure. */
+  envFunction: Function | null = null;
+  /** Local holding the environment of this local alone, if a block-scoped local captured within a loop. */
+  bindingEnvLocal: Local | null = null;
 
   constructor(
     program: Program,
@@ -2444,8 +2661,20 @@ export class Function extends Element {
   functionTableIndex: i32 = -1;
   /** Trampoline function for calling with omitted arguments. */
   trampoline: Function | null = null;
+  /** Stub dispatching calls to this method on the runtime class of `this`, if virtual. */
+  virtualStub: Function | null = null;
   /** The outer scope, if a function expression. */
   outerScope: Flow | null = null;
+  /** Whether an exception may escape this function, that is it may return with one pending. */
+  mayThrow: bool = false;
+  /** Names of locals possibly captured by closures within, if any. */
+  capturedNames: Set<string> | null = null;
+  /** Local holding the environment of locals captured by closures, if any. */
+  envLocal: Local | null = null;
+  /** Size of the environment, including the leading pointer to the outer environment. */
+  envSize: i32 = 0;
+  /** Local holding the environment of the outer function, if a closure accessing it. */
+  outerEnvLocal: Local | null = null;
 
   private nextBreakId: i32 = 0;
   private breakStack: i32[] | null = null;
@@ -2468,7 +2697,7 @@ export class Function extends Element {
     this.contextualTypeArguments = contextualTypeArguments;
     if (!(prototype.is(CommonFlags.AMBIENT))) {
       let localIndex = 0;
-      if (parent && parent.kind == ElementKind.CLASS) {
+      if (parent && (parent.kind == ElementKind.CLASS || parent.kind == ElementKind.INTERFACE)) {
         assert(this.is(CommonFlags.INSTANCE));
         let local = new Local(
           prototype.program,
@@ -2525,12 +2754,40 @@ export class Function extends Element {
     if (name) {
       if (this.localsByName.has(name)) throw new Error("duplicate local name");
       this.localsByName.set(name, local);
+      if (declaration && this.isCaptured(name)) this.captureLocal(local);
     }
     this.localsByIndex[local.index] = local;
     this.additionalLocals.push(type);
     return local;
   }
 
+  /** Tests if a local of the specified name declared in the current flow may be captured by a closure. */
+  isCaptured(name: string): bool {
+    var capturedNames = this.capturedNames;
+    return capturedNames !== null && capturedNames.has(name) && !this.flow.is(FlowFlags.INLINE_CONTEXT);
+  }
+
+  /** Makes sure that the environment of locals captured by closures is present and returns its local. */
+  ensureEnvLocal(): Local {
+    var envLocal = this.envLocal;
+    if (!envLocal) {
+      let usizeType = this.program.options.usizeType;
+      this.envLocal = envLocal = this.addLocal(usizeType);
+      this.envSize = usizeType.byteSize; // pointer to the outer environment
+    }
+    return envLocal;
+  }
+
+  /** Moves the specified local to this function's environment, so closures can access it. */
+  captureLocal(local: Local): void {
+    this.ensureEnvLocal();
+    var size = local.type.byteSize;
+    var offset = (this.envSize + size - 1) & ~(size - 1);
+    local.envOffset = offset;
+    local.envFunction = this;
+    this.envSize = offset + size;
+  }
+
   private tempI32s: Local[] | null = null;
   private tempI64s: Local[] | null = null;
   private tempF32s: Local[] | null = null;
@@ -2839,6 +3096,10 @@ export class Class extends Element {
   overloads: Map<OperatorKind,Function> | null = null;
   /** Function index of the GC hook. */
   gcHookIndex: u32 = <u32>-1;
+  /** Runtime class id. */
+  id: u32;
+  /** Implemented interfaces, if any. */
+  interfaces: Interface[] | null = null;
 
   /** Constructs a new class. */
   constructor(
@@ -2855,6 +3116,7 @@ export class Class extends Element {
     this.typeArguments = typeArguments;
     this.type = prototype.program.options.usizeType.asClass(this);
     this.base = base;
+    this.id = prototype.program.nextClassId++;
 
     // inherit static members and contextual type arguments from base class
     if (base) {
@@ -2888,14 +3150,30 @@ export class Class extends Element {
     }
   }
 
-  /** Tests if a value of this class type is assignable to a target of the specified class type. */
+  /** Tests if a value of this class type is assignable to a target of the specified class or interface type. */
   isAssignableTo(target: Class): bool {
+    var isInterface = target.kind == ElementKind.INTERFACE;
     var current: Class | null = this;
-    do if (current == target) return true;
-    while (current = current.base);
+    do {
+      if (current == target) return true;
+      if (isInterface) {
+        let interfaces = current.interfaces;
+        if (interfaces) {
+          for (let i = 0, k = interfaces.length; i < k; ++i) {
+            if (interfaces[i].isAssignableTo(target)) return true;
+          }
+        }
+      }
+    } while (current = current.base);
     return false;
   }
 
+  /** Tests if instances of this class carry their runtime class id in their header. */
+  hasRuntimeClassId(): bool {
+    var program = this.program;
+    return this.is(CommonFlags.VIRTUAL) || program.hasGC && this.type.isManaged(program);
+  }
+
   /** Looks up the operator overload of the specified kind. */
   lookupOverload(kind: OperatorKind, unchecked: bool = false): Function | null {
     if (unchecked) {
@@ -2924,6 +3202,19 @@ export class Class extends Element {
     return null;
   }
 
+  /** Looks up the instance member of the specified name, including inherited members. */
+  lookupMember(name: string): Element | null {
+    var instance: Class | null = this;
+    do {
+      let members = instance.members;
+      if (members) {
+        let member = members.get(name);
+        if (member) return member;
+      }
+    } while (instance = instance.base);
+    return null;
+  }
+
   offsetof(fieldName: string): u32 {
     var members = assert(this.members);
     assert(members.has(fieldName));
@@ -2972,7 +3263,7 @@ export class Interface extends Class {
     prototype: InterfacePrototype,
     simpleName: string,
     internalName: string,
-    typeArguments: Type[] = [],
+    typeArguments: Type[] | null = null,
     base: Interface | null = null
   ) {
     super(prototype, simpleName, internalName, typeArguments, base);
@@ -3058,12 +3349,18 @@ export class Flow {
   breakLabel: string | null;
   /** The label we break to when encountering a return statement, when inlining. */
   returnLabel: string | null;
+  /** The label we break to when an exception is pending, if within a try block. */
+  catchLabel: string | null;
+  /** The innermost finally clause that jumps leaving this flow must run first, if any. */
+  finallyContext: FinallyContext | null;
   /** The current return type. */
   returnType: Type;
   /** The current contextual type arguments. */
   contextualTypeArguments: Map<string,Type> | null;
   /** Scoped local variables. */
   scopedLocals: Map<string,Local> | null = null;
+  /** Scoped locals captured within a loop, each with an environment of its own, in order of declaration. */
+  capturedBindings: Local[] | null = null;
   /** Local variable wrap states for the first 64 locals. */
   wrappedLocals: I64;
   /** Local variable wrap states for locals with index >= 64. */
@@ -3078,6 +3375,8 @@ export class Flow {
     parentFlow.continueLabel = null;
     parentFlow.breakLabel = null;
     parentFlow.returnLabel = null;
+    parentFlow.catchLabel = null;
+    parentFlow.finallyContext = null;
     parentFlow.returnType = currentFunction.signature.returnType;
     parentFlow.contextualTypeArguments = currentFunction.contextualTypeArguments;
     parentFlow.wrappedLocals = i64_new(0);
@@ -3105,6 +3404,8 @@ export class Flow {
     branch.continueLabel = this.continueLabel;
     branch.breakLabel = this.breakLabel;
     branch.returnLabel = this.returnLabel;
+    branch.catchLabel = this.catchLabel;
+    branch.finallyContext = this.finallyContext;
     branch.returnType = this.returnType;
     branch.contextualTypeArguments = this.contextualTypeArguments;
     branch.wrappedLocals = this.wrappedLocals;
@@ -3128,7 +3429,11 @@ export class Flow {
 
   /** Adds a new scoped local of the specified name. */
   addScopedLocal(type: Type, name: string, wrapped: bool, declaration?: VariableDeclaration): Local {
-    var scopedLocal = this.currentFunction.getTempLocal(type, false);
+    var currentFunction = this.currentFunction;
+    var isCaptured = declaration !== undefined && currentFunction.isCaptured(name);
+    var scopedLocal = isCaptured
+      ? currentFunction.addLocal(type) // not a temp. local, as it is moved to the environment
+      : currentFunction.getTempLocal(type, false);
     if (!this.scopedLocals) this.scopedLocals = new Map();
     else {
       let existingLocal = this.scopedLocals.get(name);
@@ -3142,7 +3447,13 @@ export class Flow {
         return existingLocal;
       }
     }
-    scopedLocal.set(CommonFlags.SCOPED);
+    if (isCaptured) {
+      // closures created in different iterations of a loop must not share the same binding
+      if (this.continueLabel !== null) this.captureBinding(scopedLocal);
+      else currentFunction.captureLocal(scopedLocal);
+    } else {
+      scopedLocal.set(CommonFlags.SCOPED);
+    }
     this.scopedLocals.set(name, scopedLocal);
     if (type.is(TypeFlags.SHORT | TypeFlags.INTEGER)) {
       this.setLocalWrapped(scopedLocal.index, wrapped);
@@ -3150,6 +3461,20 @@ export class Flow {
     return scopedLocal;
   }
 
+  /** Moves the specified scoped local to an environment of its own, allocated whenever it is declared. */
+  captureBinding(local: Local): void {
+    var currentFunction = this.currentFunction;
+    var usizeType = currentFunction.program.options.usizeType;
+    currentFunction.ensureEnvLocal(); // links to the function's environment eventually
+    var size = local.type.byteSize;
+    local.envOffset = (usizeType.byteSize + size - 1) & ~(size - 1); // after the link
+    local.envFunction = currentFunction;
+    local.bindingEnvLocal = currentFunction.addLocal(usizeType);
+    var capturedBindings = this.capturedBindings;
+    if (!capturedBindings) this.capturedBindings = capturedBindings = [];
+    capturedBindings.push(local);
+  }
+
   /** Adds a new scoped alias for the specified local. */
   addScopedLocalAlias(index: i32, type: Type, name: string): Local {
     if (!this.scopedLocals) this.scopedLocals = new Map();
@@ -3542,7 +3867,8 @@ export class Flow {
       // overflows if the call does not return a wrapped value or the conversion does
       case ExpressionId.Call: {
         let program = this.currentFunction.program;
-        let instance = assert(program.instancesLookup.get(assert(getCallTarget(expr))));
+        let instance = program.instancesLookup.get(assert(getCallTarget(expr)));
+        if (!instance) return true; // helper generated by the compiler
         assert(instance.kind == ElementKind.FUNCTION);
         let returnType = (<Function>instance).signature.returnType;
         return !(<Function>instance).flow.is(FlowFlags.RETURNS_WRAPPED)
@@ -3561,10 +3887,62 @@ export class Flow {
     this.continueLabel = null;
     this.breakLabel = null;
     this.returnLabel = null;
+    this.catchLabel = null;
+    this.finallyContext = null;
     this.contextualTypeArguments = null;
   }
 }
 
+/** A finally clause that jumps leaving its try or catch block are routed through. */
+export class FinallyContext {
+
+  /** The label we break to in order to run the finally clause. */
+  label: string;
+  /** Local indicating why the finally clause has been entered. See {@link FinallyState}. */
+  stateLocal: Local;
+  /** Local holding the pending return value, if a return has been routed through. */
+  returnLocal: Local | null = null;
+  /** The break label in effect where the try statement appears. */
+  breakLabel: string | null;
+  /** The continue label in effect where the try statement appears. */
+  continueLabel: string | null;
+  /** Labels of routed breaks and continues, by state minus {@link FinallyState.JUMP}. */
+  jumpLabels: string[] = [];
+  /** Whether a return has been routed through. */
+  hasReturn: bool = false;
+
+  /** Constructs a new finally context for the specified flow. */
+  constructor(label: string, stateLocal: Local, flow: Flow) {
+    this.label = label;
+    this.stateLocal = stateLocal;
+    this.breakLabel = flow.breakLabel;
+    this.continueLabel = flow.continueLabel;
+  }
+
+  /** Gets the state indicating a routed break or continue to the specified label. */
+  getJumpState(label: string): i32 {
+    var jumpLabels = this.jumpLabels;
+    var index = jumpLabels.indexOf(label);
+    if (index < 0) {
+      index = jumpLabels.length;
+      jumpLabels.push(label);
+    }
+    return FinallyState.JUMP + index;
+  }
+}
+
+/** Indicates why a finally clause has been entered. */
+export const enum FinallyState {
+  /** Completed normally. */
+  NORMAL = 0,
+  /** An exception is pending. */
+  THROW = 1,
+  /** A return is pending. */
+  RETURN = 2,
+  /** A break or continue is pending. Offset by the index of its label. */
+  JUMP = 3
+}
+
 /** Tests if a conversion from one type to another can technically overflow. */
 function canConversionOverflow(fromType: Type, toType: Type): bool {
   var fromSize = fromType.byteSize;
@@ -3573,3 +3951,28 @@ function canConversionOverflow(fromType: Type, toType: Type): bool {
       || fromSize > toSize
       || fromType.is(TypeFlags.SIGNED) != toType.is(TypeFlags.SIGNED);
 }
+
+/** Creates a call to the member of the specified name on the specified target expression. */
+function createMemberCall(
+  target: Expression,
+  name: string,
+  typeArguments: CommonTypeNode[] | null,
+  args: Expression[],
+  range: Range
+): CallExpression {
+  return Node.createCallExpression(
+    Node.createPropertyAccessExpression(target, Node.createIdentifierExpression(name, range), range),
+    typeArguments,
+    args,
+    range
+  );
+}
+
+/** Creates an access to the instance field of the specified name on `this`. */
+function createFieldAccess(name: string, range: Range): PropertyAccessExpression {
+  return Node.createPropertyAccessExpression(
+    Node.createThisExpression(range),
+    Node.createIdentifierExpression(name, range),
+    range
+  );
+}
@@ -24,12 +24,16 @@ import {
   Property,
   DecoratorFlags,
   FieldPrototype,
-  Field
+  Field,
+  Interface,
+  InterfacePrototype
 } from "./program";
 
 import {
   SignatureNode,
+  TupleTypeNode,
   ParameterKind,
+  isReturnType,
   CommonTypeNode,
   NodeKind,
   TypeNode,
@@ -42,6 +46,7 @@ import {
   PropertyAccessExpression,
   LiteralExpression,
   LiteralKind,
+  IntegerLiteralExpression,
   ParenthesizedExpression,
   AssertionExpression,
   Expression
@@ -49,6 +54,7 @@ import {
 
 import {
   Type,
+  TypeKind,
   Signature,
   typesToString
 } from "./types";
@@ -98,6 +104,38 @@ export class Resolver extends DiagnosticEmitter {
       return node.isNullable ? signature.type.asNullable() : signature.type;
     }
 
+    // handle tuples specifically, which are supported as return types only
+    if (node.kind == NodeKind.TUPLETYPE) {
+      let parent = node.parent;
+      if (!(isReturnType(node) || parent && parent.kind == NodeKind.TYPEDECLARATION)) {
+        if (reportMode == ReportMode.REPORT) {
+          this.error(
+            DiagnosticCode.Tuple_types_are_only_supported_as_return_types,
+            node.range
+          );
+        }
+        return null;
+      }
+      let elementTypeNodes = (<TupleTypeNode>node).elementTypes;
+      let numElements = elementTypeNodes.length;
+      let elementTypes = new Array<Type>(numElements);
+      for (let i = 0; i < numElements; ++i) {
+        let elementType = this.resolveType(elementTypeNodes[i], contextualTypeArguments, reportMode);
+        if (!elementType) return null;
+        if (elementType.kind == TypeKind.VOID) {
+          if (reportMode == ReportMode.REPORT) {
+            this.error(
+              DiagnosticCode.Operation_not_supported,
+              elementTypeNodes[i].range
+            );
+          }
+          return null;
+        }
+        elementTypes[i] = elementType;
+      }
+      return Type.tuple(elementTypes);
+    }
+
     // now dealing with TypeNode
     assert(node.kind == NodeKind.TYPE);
     var typeNode = <TypeNode>node;
@@ -126,7 +164,8 @@ export class Resolver extends DiagnosticEmitter {
             }
             return Type.i32;
           }
-          case ElementKind.CLASS_PROTOTYPE: {
+          case ElementKind.CLASS_PROTOTYPE:
+          case ElementKind.INTERFACE_PROTOTYPE: {
             let instance = this.resolveClassInclTypeArguments(
               <ClassPrototype>element,
               typeNode.typeArguments,
@@ -143,7 +182,19 @@ export class Resolver extends DiagnosticEmitter {
     // check (global) type alias
     {
       let alias = this.program.typeAliases.get(simpleName);
-      if (alias) return this.resolveType(alias.type, contextualTypeArguments, reportMode);
+      if (alias) {
+        let type = this.resolveType(alias.type, contextualTypeArguments, reportMode);
+        if (type && type.tupleTypes && !isReturnType(node)) {
+          if (reportMode == ReportMode.REPORT) {
+            this.error(
+              DiagnosticCode.Tuple_types_are_only_supported_as_return_types,
+              node.range
+            );
+          }
+          return null;
+        }
+        return type;
+      }
     }
 
     // resolve parameters
@@ -221,7 +272,7 @@ export class Resolver extends DiagnosticEmitter {
           break;
         }
         case ParameterKind.REST: {
-          assert(i == numParameters);
+          assert(i == numParameters - 1);
           hasRest = true;
           break;
         }
@@ -232,6 +283,7 @@ export class Resolver extends DiagnosticEmitter {
         reportMode
       );
       if (!parameterType) return null;
+      if (hasRest && !this.checkRestParameterType(parameterType, parameterTypeNode, reportMode)) return null;
       parameterTypes[i] = parameterType;
       parameterNames[i] = parameterTypeNode.name.text;
     }
@@ -250,6 +302,23 @@ export class Resolver extends DiagnosticEmitter {
     return signature;
   }
 
+  /** Checks that the type of a rest parameter is an array. */
+  private checkRestParameterType(
+    parameterType: Type,
+    reportNode: Node,
+    reportMode: ReportMode
+  ): bool {
+    var classReference = parameterType.classReference;
+    if (classReference && classReference.prototype == this.program.arrayPrototype) return true;
+    if (reportMode == ReportMode.REPORT) {
+      this.error(
+        DiagnosticCode.A_rest_parameter_must_be_of_an_array_type,
+        reportNode.range
+      );
+    }
+    return false;
+  }
+
   /** Resolves an array of type arguments to concrete types. */
   resolveTypeArguments(
     typeParameters: TypeParameterNode[],
@@ -311,6 +380,26 @@ export class Resolver extends DiagnosticEmitter {
             this.currentElementExpression = null;
             return element;
           }
+          // search locals of outer functions, if a closure
+          let outerScope = (<Function>context).outerScope;
+          while (outerScope) {
+            let local = outerScope.getScopedLocal(name);
+            if (local) {
+              if (!local.is(CommonFlags.INLINED) && local.envOffset < 0) { // not captured
+                if (reportMode == ReportMode.REPORT) {
+                  this.error(
+                    DiagnosticCode.Operation_not_supported,
+                    identifier.range
+                  );
+                }
+                return null;
+              }
+              this.currentThisExpression = null;
+              this.currentElementExpression = null;
+              return local;
+            }
+            outerScope = outerScope.currentFunction.outerScope;
+          }
           context = (<Function>context).prototype.parent;
           break;
         }
@@ -378,13 +467,20 @@ export class Resolver extends DiagnosticEmitter {
       case ElementKind.LOCAL:
       case ElementKind.FIELD: {
         let type = (<VariableLikeElement>target).type;
-        assert(type != Type.void);
-        let classReference = type.classReference;
+        if (type == Type.void) { // global not yet compiled, but its annotation is sufficient
+          let declaration = assert((<VariableLikeElement>target).declaration);
+          let resolvedType = this.resolveType(assert(declaration.type), null, reportMode);
+          if (!resolvedType) return null;
+          type = resolvedType;
+        }
+        let classReference = type.classReference || this.resolveWrapperClass(type);
         if (!classReference) {
-          this.error(
-            DiagnosticCode.Property_0_does_not_exist_on_type_1,
-            propertyAccess.property.range, propertyName, (<VariableLikeElement>target).type.toString()
-          );
+          if (reportMode == ReportMode.REPORT) {
+            this.error(
+              DiagnosticCode.Property_0_does_not_exist_on_type_1,
+              propertyAccess.property.range, propertyName, (<VariableLikeElement>target).type.toString()
+            );
+          }
           return null;
         }
         target = classReference;
@@ -398,12 +494,15 @@ export class Resolver extends DiagnosticEmitter {
           reportMode
         );
         if (!getter) return null;
-        let classReference = getter.signature.returnType.classReference;
+        let returnType = getter.signature.returnType;
+        let classReference = returnType.classReference || this.resolveWrapperClass(returnType);
         if (!classReference) {
-          this.error(
-            DiagnosticCode.Property_0_does_not_exist_on_type_1,
-            propertyAccess.property.range, propertyName, getter.signature.returnType.toString()
-          );
+          if (reportMode == ReportMode.REPORT) {
+            this.error(
+              DiagnosticCode.Property_0_does_not_exist_on_type_1,
+              propertyAccess.property.range, propertyName, returnType.toString()
+            );
+          }
           return null;
         }
         target = classReference;
@@ -414,18 +513,22 @@ export class Resolver extends DiagnosticEmitter {
         if (elementExpression) {
           let indexedGet = (<Class>target).lookupOverload(OperatorKind.INDEXED_GET);
           if (!indexedGet) {
-            this.error(
-              DiagnosticCode.Index_signature_is_missing_in_type_0,
-              elementExpression.range, (<Class>target).internalName
-            );
+            if (reportMode == ReportMode.REPORT) {
+              this.error(
+                DiagnosticCode.Index_signature_is_missing_in_type_0,
+                elementExpression.range, (<Class>target).internalName
+              );
+            }
             return null;
           }
           let returnType = indexedGet.signature.returnType;
-          if (!(target = returnType.classReference)) {
-            this.error(
-              DiagnosticCode.Property_0_does_not_exist_on_type_1,
-              propertyAccess.property.range, propertyName, returnType.toString()
-            );
+          if (!(target = returnType.classReference || this.resolveWrapperClass(returnType))) {
+            if (reportMode == ReportMode.REPORT) {
+              this.error(
+                DiagnosticCode.Property_0_does_not_exist_on_type_1,
+                propertyAccess.property.range, propertyName, returnType.toString()
+              );
+            }
             return null;
           }
         }
@@ -478,10 +581,12 @@ export class Resolver extends DiagnosticEmitter {
         break;
       }
     }
-    this.error(
-      DiagnosticCode.Property_0_does_not_exist_on_type_1,
-      propertyAccess.property.range, propertyName, target.internalName
-    );
+    if (reportMode == ReportMode.REPORT) {
+      this.error(
+        DiagnosticCode.Property_0_does_not_exist_on_type_1,
+        propertyAccess.property.range, propertyName, target.internalName
+      );
+    }
     return null;
   }
 
@@ -556,6 +661,12 @@ export class Resolver extends DiagnosticEmitter {
             this.currentElementExpression = null;
             return classType;
           }
+          let wrapperClass = this.resolveWrapperClass(type, reportMode);
+          if (wrapperClass) {
+            this.currentThisExpression = expression;
+            this.currentElementExpression = null;
+            return wrapperClass;
+          }
         }
         return null;
       }
@@ -613,11 +724,35 @@ export class Resolver extends DiagnosticEmitter {
       }
       case NodeKind.LITERAL: {
         switch ((<LiteralExpression>expression).literalKind) {
+          case LiteralKind.INTEGER: {
+            let wrapperClass = this.resolveWrapperClass(
+              i64_is_i32((<IntegerLiteralExpression>expression).value) ? Type.i32 : Type.i64,
+              reportMode
+            );
+            if (!wrapperClass) break;
+            this.currentThisExpression = expression;
+            this.currentElementExpression = null;
+            return wrapperClass;
+          }
+          case LiteralKind.FLOAT: {
+            let wrapperClass = this.resolveWrapperClass(Type.f64, reportMode);
+            if (!wrapperClass) break;
+            this.currentThisExpression = expression;
+            this.currentElementExpression = null;
+            return wrapperClass;
+          }
           case LiteralKind.STRING: {
             this.currentThisExpression = expression;
             this.currentElementExpression = null;
             return this.program.stringInstance;
           }
+          case LiteralKind.REGEXP: {
+            let element = this.program.elementsLookup.get("RegExp");
+            if (!element || element.kind != ElementKind.CLASS_PROTOTYPE) break;
+            this.currentThisExpression = expression;
+            this.currentElementExpression = null;
+            return this.resolveClass(<ClassPrototype>element, null, null, reportMode);
+          }
           // case LiteralKind.ARRAY: // TODO
         }
         break;
@@ -650,7 +785,7 @@ export class Resolver extends DiagnosticEmitter {
           );
           if (!instance) return null;
           let returnType = instance.signature.returnType;
-          let classType = returnType.classReference;
+          let classType = returnType.classReference || this.resolveWrapperClass(returnType, reportMode);
           if (classType) {
             // reuse resolvedThisExpression (might be property access)
             // reuse resolvedElementExpression (might be element access)
@@ -762,6 +897,13 @@ export class Resolver extends DiagnosticEmitter {
       if (!classInstance) return null;
       thisType = classInstance.type;
       contextualTypeArguments.set("this", thisType);
+
+      // methods of wrapper classes take the basic value as `this`
+      let explicitThisType = signatureNode.explicitThisType;
+      if (explicitThisType) {
+        thisType = this.resolveType(explicitThisType, contextualTypeArguments, reportMode);
+        if (!thisType) return null;
+      }
     }
 
     // resolve signature node
@@ -770,14 +912,24 @@ export class Resolver extends DiagnosticEmitter {
     var parameterTypes = new Array<Type>(signatureParameterCount);
     var parameterNames = new Array<string>(signatureParameterCount);
     var requiredParameters = 0;
+    var hasRest = false;
     for (let i = 0; i < signatureParameterCount; ++i) {
       let parameterDeclaration = signatureParameters[i];
-      if (parameterDeclaration.parameterKind == ParameterKind.DEFAULT) {
-        requiredParameters = i + 1;
+      switch (parameterDeclaration.parameterKind) {
+        case ParameterKind.DEFAULT: {
+          requiredParameters = i + 1;
+          break;
+        }
+        case ParameterKind.REST: {
+          assert(i == signatureParameterCount - 1);
+          hasRest = true;
+          break;
+        }
       }
       let typeNode = assert(parameterDeclaration.type);
       let parameterType = this.resolveType(typeNode, contextualTypeArguments, reportMode);
       if (!parameterType) return null;
+      if (hasRest && !this.checkRestParameterType(parameterType, parameterDeclaration, reportMode)) return null;
       parameterTypes[i] = parameterType;
       parameterNames[i] = parameterDeclaration.name.text;
     }
@@ -797,6 +949,7 @@ export class Resolver extends DiagnosticEmitter {
     var signature = new Signature(parameterTypes, returnType, thisType);
     signature.parameterNames = parameterNames;
     signature.requiredParameters = requiredParameters;
+    signature.hasRest = hasRest;
 
     var internalName = prototype.internalName;
     if (instanceKey.length) internalName += "<" + instanceKey + ">";
@@ -869,6 +1022,31 @@ export class Resolver extends DiagnosticEmitter {
     );
   }
 
+  /** Resolves the class providing the methods of values of a basic type, like `I32` for `i32`. */
+  resolveWrapperClass(type: Type, reportMode: ReportMode = ReportMode.REPORT): Class | null {
+    if (type.classReference || type.signatureReference) return null;
+    var name: string;
+    switch (type.kind) {
+      case TypeKind.I8: { name = "I8"; break; }
+      case TypeKind.I16: { name = "I16"; break; }
+      case TypeKind.I32: { name = "I32"; break; }
+      case TypeKind.I64: { name = "I64"; break; }
+      case TypeKind.ISIZE: { name = "Isize"; break; }
+      case TypeKind.U8: { name = "U8"; break; }
+      case TypeKind.U16: { name = "U16"; break; }
+      case TypeKind.U32: { name = "U32"; break; }
+      case TypeKind.U64: { name = "U64"; break; }
+      case TypeKind.USIZE: { name = "Usize"; break; }
+      case TypeKind.BOOL: { name = "Bool"; break; }
+      case TypeKind.F32: { name = "F32"; break; }
+      case TypeKind.F64: { name = "F64"; break; }
+      default: return null;
+    }
+    var element = this.program.elementsLookup.get(name);
+    if (!element || element.kind != ElementKind.CLASS_PROTOTYPE) return null;
+    return this.resolveClass(<ClassPrototype>element, null, null, reportMode);
+  }
+
   /** Resolves a class prototype using the specified concrete type arguments. */
   resolveClass(
     prototype: ClassPrototype,
@@ -907,6 +1085,7 @@ export class Resolver extends DiagnosticEmitter {
     }
 
     // Resolve base class if applicable
+    var isInterface = prototype.kind == ElementKind.INTERFACE_PROTOTYPE;
     var baseClass: Class | null = null;
     if (declaration.extendsType) {
       let baseClassType = this.resolveType(
@@ -915,7 +1094,10 @@ export class Resolver extends DiagnosticEmitter {
         reportMode
       );
       if (!baseClassType) return null;
-      if (!(baseClass = baseClassType.classReference)) {
+      if (
+        !(baseClass = baseClassType.classReference) ||
+        (baseClass.kind == ElementKind.INTERFACE) != isInterface
+      ) {
         if (reportMode == ReportMode.REPORT) {
           this.program.error(
             DiagnosticCode.A_class_may_only_extend_another_class,
@@ -951,7 +1133,17 @@ export class Resolver extends DiagnosticEmitter {
       simpleName += "<" + instanceKey + ">";
       internalName += "<" + instanceKey + ">";
     }
-    instance = new Class(prototype, simpleName, internalName, typeArguments, baseClass);
+    if (isInterface) {
+      instance = new Interface(
+        <InterfacePrototype>prototype,
+        simpleName,
+        internalName,
+        typeArguments,
+        <Interface | null>baseClass
+      );
+    } else {
+      instance = new Class(prototype, simpleName, internalName, typeArguments, baseClass);
+    }
     instance.contextualTypeArguments = contextualTypeArguments;
     prototype.instances.set(instanceKey, instance);
     this.program.instancesLookup.set(internalName, instance);
@@ -1110,6 +1302,47 @@ export class Resolver extends DiagnosticEmitter {
       if (!overloads) instance.overloads = overloads = new Map();
       overloads.set(kind, operatorInstance);
     }
+
+    // Resolve implemented interfaces and check that their members are present
+    var implementsTypes = declaration.implementsTypes;
+    if (implementsTypes) {
+      let interfaces = new Array<Interface>();
+      for (let i = 0, k = implementsTypes.length; i < k; ++i) {
+        let interfaceType = this.resolveType(
+          implementsTypes[i],
+          contextualTypeArguments,
+          reportMode
+        );
+        if (!interfaceType) continue;
+        let interfaceInstance = interfaceType.classReference;
+        if (!interfaceInstance || interfaceInstance.kind != ElementKind.INTERFACE) {
+          if (reportMode == ReportMode.REPORT) {
+            this.error(
+              DiagnosticCode.A_class_can_only_implement_an_interface,
+              implementsTypes[i].range
+            );
+          }
+          continue;
+        }
+        let interfaceMembers = interfaceInstance.members;
+        if (interfaceMembers) {
+          let members = instance.members;
+          for (let [memberName, interfaceMember] of interfaceMembers) {
+            if (!(members && members.has(memberName))) {
+              if (reportMode == ReportMode.REPORT) {
+                this.error(
+                  DiagnosticCode.Class_0_incorrectly_implements_interface_1,
+                  declaration.name.range, instance.internalName, interfaceInstance.internalName
+                );
+              }
+              break;
+            }
+          }
+        }
+        interfaces.push(<Interface>interfaceInstance);
+      }
+      instance.interfaces = interfaces;
+    }
     return instance;
   }
 
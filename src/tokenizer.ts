@@ -26,7 +26,8 @@ import {
   isIdentifierPart,
   isDecimalDigit,
   isOctalDigit,
-  isKeywordCharacter
+  isKeywordCharacter,
+  parseRegexpFlags
 } from "./util";
 
 /** Named token types. */
@@ -157,6 +158,7 @@ export enum Token {
 
   IDENTIFIER,
   STRINGLITERAL,
+  TEMPLATELITERAL,
   INTEGERLITERAL,
   FLOATLITERAL,
 
@@ -354,6 +356,7 @@ export function tokenIsAlsoIdentifier(token: Token): bool {
     case Token.KEYOF:
     case Token.MODULE:
     case Token.NAMESPACE:
+    case Token.OF:
     case Token.READONLY:
     case Token.SET:
     case Token.TYPE: return true;
@@ -495,6 +498,8 @@ export class Tokenizer extends DiagnosticEmitter {
   nextTokenOnNewLine: bool = false;
 
   onComment: CommentHandler | null = null;
+  /** Whether the template string part read last is followed by a substitution. */
+  templateSubstitutionFollows: bool = false;
 
   /** Constructs a new tokenizer. */
   constructor(source: Source, diagnostics: DiagnosticMessage[] | null = null) {
@@ -579,10 +584,13 @@ export class Tokenizer extends DiagnosticEmitter {
           return Token.EXCLAMATION;
         }
         case CharCode.DOUBLEQUOTE:
-        case CharCode.SINGLEQUOTE:
-        case CharCode.BACKTICK: { // TODO
+        case CharCode.SINGLEQUOTE: {
           return Token.STRINGLITERAL; // expects a call to readString
         }
+        case CharCode.BACKTICK: {
+          ++this.pos;
+          return Token.TEMPLATELITERAL; // expects calls to readTemplateString
+        }
         case CharCode.PERCENT: {
           ++this.pos;
           if (
@@ -1086,6 +1094,54 @@ export class Tokenizer extends DiagnosticEmitter {
     return result;
   }
 
+  /** Reads the next part of a template literal, up to the next substitution or its end. */
+  readTemplateString(): string {
+    var text = this.source.text;
+    var start = this.pos;
+    var result = "";
+    this.templateSubstitutionFollows = false;
+    while (true) {
+      if (this.pos >= this.end) {
+        result += text.substring(start, this.pos);
+        this.error(
+          DiagnosticCode.Unterminated_template_literal,
+          this.range(start - 1, this.end)
+        );
+        break;
+      }
+      let c = text.charCodeAt(this.pos);
+      if (c == CharCode.BACKTICK) {
+        result += text.substring(start, this.pos++);
+        break;
+      }
+      if (
+        c == CharCode.DOLLAR &&
+        this.pos + 1 < this.end &&
+        text.charCodeAt(this.pos + 1) == CharCode.OPENBRACE
+      ) {
+        result += text.substring(start, this.pos);
+        this.pos += 2;
+        this.templateSubstitutionFollows = true;
+        break;
+      }
+      if (c == CharCode.BACKSLASH) {
+        result += text.substring(start, this.pos);
+        result += this.readEscapeSequence();
+        start = this.pos;
+        continue;
+      }
+      if (c == CharCode.CARRIAGERETURN) { // normalize line breaks
+        result += text.substring(start, this.pos++);
+        if (this.pos < this.end && text.charCodeAt(this.pos) == CharCode.LINEFEED) ++this.pos;
+        result += "\n";
+        start = this.pos;
+        continue;
+      }
+      ++this.pos;
+    }
+    return result;
+  }
+
   readEscapeSequence(): string {
     if (++this.pos >= this.end) {
       this.error(
@@ -1168,39 +1224,20 @@ export class Tokenizer extends DiagnosticEmitter {
   readRegexpFlags(): string {
     var text = this.source.text;
     var start = this.pos;
-    var flags = 0;
     while (this.pos < this.end) {
-      let c: i32 = text.charCodeAt(this.pos);
-      if (!isIdentifierPart(c)) break;
+      if (!isIdentifierPart(text.charCodeAt(this.pos))) break;
       ++this.pos;
-
-      // make sure each supported flag is unique
-      switch (c) {
-        case CharCode.g: {
-          flags |= flags & 1 ? -1 : 1;
-          break;
-        }
-        case CharCode.i: {
-          flags |= flags & 2 ? -1 : 2;
-          break;
-        }
-        case CharCode.m: {
-          flags |= flags & 4 ? -1 : 4;
-          break;
-        }
-        default: {
-          flags = -1;
-          break;
-        }
-      }
     }
-    if (flags == -1) {
+    var flags = text.substring(start, this.pos);
+
+    // make sure each flag is supported by `RegExp` and unique
+    if (parseRegexpFlags(flags) < 0) {
       this.error(
         DiagnosticCode.Invalid_regular_expression_flags,
         this.range(start, this.pos)
       );
     }
-    return text.substring(start, this.pos);
+    return flags;
   }
 
   testInteger(): bool {
@@ -100,6 +100,8 @@ export class Type {
   classReference: Class | null;
   /** Underlying signature reference, if a function type. */
   signatureReference: Signature | null;
+  /** Element types, if a tuple type. */
+  tupleTypes: Type[] | null;
   /** Respective non-nullable type, if nullable. */
   nonNullableType: Type;
   /** Cached nullable type, if non-nullable. */
@@ -113,6 +115,7 @@ export class Type {
     this.byteSize = <i32>ceil<f64>(<f64>size / 8);
     this.classReference = null;
     this.signatureReference = null;
+    this.tupleTypes = null;
     this.nonNullableType = this;
   }
 
@@ -139,6 +142,7 @@ export class Type {
   /** Tests if this is a managed type that needs GC hooks. */
   isManaged(program: Program): bool {
     if (program.hasGC) {
+      if (this.signatureReference) return true; // function values
       let classReference = this.classReference;
       return classReference !== null && !classReference.hasDecorator(DecoratorFlags.UNMANAGED);
     }
@@ -177,6 +181,18 @@ export class Type {
     return ret;
   }
 
+  /** Composes a tuple type of the specified element types. Natively represented by its first element. */
+  static tuple(elementTypes: Type[]): Type {
+    assert(elementTypes.length);
+    var first = elementTypes[0];
+    assert(!first.tupleTypes);
+    var ret = new Type(first.kind, first.flags, first.size);
+    ret.classReference = first.classReference;
+    ret.signatureReference = first.signatureReference;
+    ret.tupleTypes = elementTypes;
+    return ret;
+  }
+
   /** Composes the respective nullable type of this type. */
   asNullable(): Type {
     assert(this.is(TypeFlags.REFERENCE));
@@ -196,6 +212,17 @@ export class Type {
     var targetClass: Class | null;
     var currentFunction: Signature | null;
     var targetFunction: Signature | null;
+    var currentTuple = this.tupleTypes;
+    var targetTuple = target.tupleTypes;
+    if (currentTuple || targetTuple) {
+      if (!currentTuple || !targetTuple) return false;
+      let numElements = currentTuple.length;
+      if (numElements != targetTuple.length) return false;
+      for (let i = 0; i < numElements; ++i) { // passed as is, hence must match exactly
+        if (currentTuple[i] != targetTuple[i]) return false;
+      }
+      return true;
+    }
     if (this.is(TypeFlags.REFERENCE)) {
       if (target.is(TypeFlags.REFERENCE)) {
         if (!this.is(TypeFlags.NULLABLE) || target.is(TypeFlags.NULLABLE)) {
@@ -239,6 +266,10 @@ export class Type {
 
   /** Converts this type to its TypeScript representation. */
   toString(kindOnly: bool = false): string {
+    if (!kindOnly) {
+      let tupleTypes = this.tupleTypes;
+      if (tupleTypes) return "[" + typesToString(tupleTypes) + "]";
+    }
     if (!kindOnly && this.is(TypeFlags.REFERENCE)) {
       let classReference = this.classReference;
       if (classReference) {
@@ -543,8 +574,8 @@ export class Signature {
       return false;
     }
 
-    // check rest parameter
-    if (this.hasRest != target.hasRest) return false; // TODO
+    // check rest parameter (passed as an array, so its type is checked with the other parameters)
+    if (this.hasRest != target.hasRest) return false;
 
     // check parameter types
     var thisParameterTypes = this.parameterTypes;
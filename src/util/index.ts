@@ -8,3 +8,4 @@ export * from "./charcode";
 export * from "./path";
 export * from "./text";
 export * from "./binary";
+export * from "./regexp";
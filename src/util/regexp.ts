@@ -0,0 +1,9 @@
+/** @module util *//***/
+
+// regular expression literals are parsed by the standard library's own parser, so the program the
+// compiler emits for a literal is exactly what `RegExp` would have parsed at runtime
+
+export {
+  Parser as RegexpParser,
+  parseFlags as parseRegexpFlags
+} from "../../std/assembly/internal/regexp-parser";
@@ -433,29 +433,70 @@ function fls<T>(word: T): T {
 /** Reference to the initialized {@link Root} structure, once initialized. */
 var ROOT: Root = changetype<Root>(0);
 
-// Memory allocator interface
+// ╒═══════════════ Shared memory layout (threads only) ═══════════════╕
+//    3                   2                   1
+//  1 0 9 8 7 6 5 4 3 2 1 0 9 8 7 6 5 4 3 2 1 0 9 8 7 6 5 4 3 2 1 0  bits
+// ├─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┴─┤ ◄─ HEAP_BASE (aligned)
+// │                             lock                              │
+// ├───────────────────────────────────────────────────────────────┤
+// │                             state                             │
+// ╞═══════════════════════════════════════════════════════════════╡ ◄─ aligned
+// │                             root                              │
+// └───────────────────────────────────────────────────────────────┘
+// Globals like ROOT are local to each thread while memory is shared, hence the allocator's lock
+// and whether the root has been initialized are kept in memory right before the root.
+
+/** Gets the offset of the lock. The state follows it. */
+@inline function lockOffset(): usize {
+  return (HEAP_BASE + AL_MASK) & ~AL_MASK;
+}
 
-/** Allocates a chunk of memory. */
-@global export function __memory_allocate(size: usize): usize {
+/** Acquires the allocator's lock, spinning until it becomes available. */
+function lock(): void {
+  var offset = lockOffset();
+  // make sure that the lock is backed by memory. concurrent threads growing it at the same time
+  // waste a page at worst, which the allocator picks up anyway.
+  var pagesBefore = memory.size();
+  var pagesNeeded = <i32>((((offset + AL_SIZE) + 0xffff) & ~0xffff) >>> 16);
+  if (pagesNeeded > pagesBefore && memory.grow(pagesNeeded - pagesBefore) < 0) unreachable();
+  while (atomic.cmpxchg<u32>(offset, 0, 1)) {}
+}
 
-  // initialize if necessary
-  var root = ROOT;
-  if (!root) {
-    let rootOffset = (HEAP_BASE + AL_MASK) & ~AL_MASK;
-    let pagesBefore = memory.size();
-    let pagesNeeded = <i32>((((rootOffset + Root.SIZE) + 0xffff) & ~0xffff) >>> 16);
-    if (pagesNeeded > pagesBefore && memory.grow(pagesNeeded - pagesBefore) < 0) unreachable();
-    ROOT = root = changetype<Root>(rootOffset);
-    root.tailRef = 0;
-    root.flMap = 0;
-    for (let fl: usize = 0; fl < FL_BITS; ++fl) {
-      root.setSLMap(fl, 0);
-      for (let sl: u32 = 0; sl < SL_SIZE; ++sl) {
-        root.setHead(fl, sl, null);
-      }
+/** Releases the allocator's lock. */
+function unlock(): void {
+  atomic.store<u32>(lockOffset(), 0);
+}
+
+/** Initializes the {@link Root} structure, or locates it if another thread already did. */
+function initialize(): Root {
+  var rootOffset = (HEAP_BASE + AL_MASK) & ~AL_MASK;
+  if (ASC_FEATURE_THREADS) {
+    rootOffset += AL_SIZE; // after lock and state
+    if (atomic.load<u32>(lockOffset(), sizeof<u32>())) return changetype<Root>(rootOffset);
+  }
+  var pagesBefore = memory.size();
+  var pagesNeeded = <i32>((((rootOffset + Root.SIZE) + 0xffff) & ~0xffff) >>> 16);
+  if (pagesNeeded > pagesBefore && memory.grow(pagesNeeded - pagesBefore) < 0) unreachable();
+  var root = changetype<Root>(rootOffset);
+  root.tailRef = 0;
+  root.flMap = 0;
+  for (let fl: usize = 0; fl < FL_BITS; ++fl) {
+    root.setSLMap(fl, 0);
+    for (let sl: u32 = 0; sl < SL_SIZE; ++sl) {
+      root.setHead(fl, sl, null);
     }
-    root.addMemory((rootOffset + Root.SIZE + AL_MASK) & ~AL_MASK, memory.size() << 16);
   }
+  root.addMemory((rootOffset + Root.SIZE + AL_MASK) & ~AL_MASK, memory.size() << 16);
+  if (ASC_FEATURE_THREADS) atomic.store<u32>(lockOffset(), 1, sizeof<u32>());
+  return root;
+}
+
+/** Allocates a chunk of memory. Must hold the lock if threads are enabled. */
+function allocate(size: usize): usize {
+
+  // initialize if necessary
+  var root = ROOT;
+  if (!root) ROOT = root = initialize();
 
   // search for a suitable block
   if (size > Block.MAX_SIZE) unreachable();
@@ -484,16 +525,43 @@ var ROOT: Root = changetype<Root>(0);
   return root.use(<Block>block, size);
 }
 
+/** Frees the chunk of memory at the specified address. Must hold the lock if threads are enabled. */
+function free(data: usize): void {
+  var root = ROOT;
+  if (ASC_FEATURE_THREADS) {
+    if (!root) ROOT = root = initialize(); // allocated by another thread
+  } else if (!root) {
+    return;
+  }
+  var block = changetype<Block>(data - Block.INFO);
+  var blockInfo = block.info;
+  assert(!(blockInfo & FREE)); // must be used
+  block.info = blockInfo | FREE;
+  root.insert(changetype<Block>(data - Block.INFO));
+}
+
+// Memory allocator interface
+
+/** Allocates a chunk of memory. */
+@global export function __memory_allocate(size: usize): usize {
+  if (ASC_FEATURE_THREADS) {
+    lock();
+    let ptr = allocate(size);
+    unlock();
+    return ptr;
+  }
+  return allocate(size);
+}
+
 /** Frees the chunk of memory at the specified address. */
 @global export function __memory_free(data: usize): void {
   if (data) {
-    let root = ROOT;
-    if (root) {
-      let block = changetype<Block>(data - Block.INFO);
-      let blockInfo = block.info;
-      assert(!(blockInfo & FREE)); // must be used
-      block.info = blockInfo | FREE;
-      root.insert(changetype<Block>(data - Block.INFO));
+    if (ASC_FEATURE_THREADS) {
+      lock();
+      free(data);
+      unlock();
+    } else {
+      free(data);
     }
   }
 }
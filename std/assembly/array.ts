@@ -9,8 +9,8 @@ import {
 
 import {
   defaultComparator,
-  insertionSort,
-  weakHeapSort
+  timSort,
+  joinElement
 } from "./internal/array";
 
 export class Array<T> {
@@ -32,6 +32,20 @@ export class Array<T> {
     );
   }
 
+  static isArray<U>(value: U): bool {
+    // typed arrays can be indexed as well, but lack the backing buffer of an array
+    if (isArray<U>() && isDefined(value.buffer_)) return value !== null;
+    return false;
+  }
+
+  static from<U>(source: Array<U>): Array<U> {
+    return source.slice();
+  }
+
+  static of<U>(...values: U[]): Array<U> {
+    return values;
+  }
+
   @inline
   get length(): i32 {
     return this.length_;
@@ -57,6 +71,39 @@ export class Array<T> {
     return true;
   }
 
+  fill(value: T, start: i32 = 0, end: i32 = i32.MAX_VALUE): this {
+    var buffer = this.buffer_;
+    var length = this.length_;
+    if (start < 0) start = max(length + start, 0);
+    else start = min(start, length);
+    if (end < 0) end = max(length + end, 0);
+    else end = min(end, length);
+    if (sizeof<T>() == 1) {
+      if (start < end) {
+        memory.fill(
+          changetype<usize>(buffer) + HEADER_SIZE + <usize>start,
+          <u8>value,
+          <usize>(end - start)
+        );
+      }
+    } else {
+      for (; start < end; ++start) {
+        storeUnsafe<T,T>(buffer, start, value);
+      }
+    }
+    if (isManaged<T>()) __gc_link(changetype<usize>(this), changetype<usize>(value)); // tslint:disable-line
+    return this;
+  }
+
+  find(predicate: (element: T, index: i32, array: Array<T>) => bool): T {
+    var buffer = this.buffer_;
+    for (let index = 0, toIndex = this.length_; index < toIndex && index < this.length_; ++index) {
+      let element = loadUnsafe<T,T>(buffer, index);
+      if (predicate(element, index, this)) return element;
+    }
+    return <T>null; // there is no undefined
+  }
+
   findIndex(predicate: (element: T, index: i32, array: Array<T>) => bool): i32 {
     var buffer = this.buffer_;
     for (let index = 0, toIndex = this.length_; index < toIndex && index < this.length_; ++index) {
@@ -261,6 +308,94 @@ export class Array<T> {
     return newLength;
   }
 
+  concat(items: Array<T>): Array<T> {
+    var thisLen = this.length_;
+    var otherLen = items.length_;
+    var concatenated = new Array<T>(thisLen + otherLen);
+    if (thisLen) {
+      memory.copy(
+        changetype<usize>(concatenated.buffer_) + HEADER_SIZE,
+        changetype<usize>(this.buffer_) + HEADER_SIZE,
+        <usize>thisLen << alignof<T>()
+      );
+    }
+    if (otherLen) {
+      memory.copy(
+        changetype<usize>(concatenated.buffer_) + HEADER_SIZE + (<usize>thisLen << alignof<T>()),
+        changetype<usize>(items.buffer_) + HEADER_SIZE,
+        <usize>otherLen << alignof<T>()
+      );
+    }
+    if (isManaged<T>()) linkElements<T>(concatenated);
+    return concatenated;
+  }
+
+  copyWithin(target: i32, start: i32 = 0, end: i32 = i32.MAX_VALUE): this {
+    var length = this.length_;
+    if (target < 0) target = max(length + target, 0);
+    else target = min(target, length);
+    if (start < 0) start = max(length + start, 0);
+    else start = min(start, length);
+    if (end < 0) end = max(length + end, 0);
+    else end = min(end, length);
+    var count = min(end - start, length - target);
+    if (count > 0) {
+      let buffer = this.buffer_;
+      memory.copy(
+        changetype<usize>(buffer) + HEADER_SIZE + (<usize>target << alignof<T>()),
+        changetype<usize>(buffer) + HEADER_SIZE + (<usize>start << alignof<T>()),
+        <usize>count << alignof<T>()
+      );
+    }
+    return this;
+  }
+
+  flat<U>(): Array<U> {
+    if (!isArray<T>()) ERROR("Array#flat requires an array of arrays");
+    var length = this.length_;
+    var buffer = this.buffer_;
+    var flatLength = 0;
+    for (let index = 0; index < length; ++index) {
+      let inner = loadUnsafe<T,T>(buffer, index);
+      if (inner !== null) flatLength += inner.length_; // tslint:disable-line:no-unsafe-any
+    }
+    var flattened = new Array<U>(flatLength);
+    var offset: usize = 0;
+    for (let index = 0; index < length; ++index) {
+      let inner = loadUnsafe<T,T>(buffer, index);
+      if (inner === null) continue;
+      let innerSize = <usize>inner.length_ << alignof<U>(); // tslint:disable-line:no-unsafe-any
+      memory.copy(
+        changetype<usize>(flattened.buffer_) + HEADER_SIZE + offset,
+        changetype<usize>(inner.buffer_) + HEADER_SIZE, // tslint:disable-line:no-unsafe-any
+        innerSize
+      );
+      offset += innerSize;
+    }
+    if (isManaged<U>()) linkElements<U>(flattened);
+    return flattened;
+  }
+
+  flatMap<U>(callbackfn: (value: T, index: i32, array: Array<T>) => Array<U>): Array<U> {
+    return this.map<Array<U>>(callbackfn).flat<U>();
+  }
+
+  join(separator: string = ","): string {
+    var length = this.length_;
+    if (length == 0) return "";
+    var buffer = this.buffer_;
+    var result = joinElement<T>(loadUnsafe<T,T>(buffer, 0));
+    for (let index = 1; index < length; ++index) {
+      result += separator;
+      result += joinElement<T>(loadUnsafe<T,T>(buffer, index));
+    }
+    return result;
+  }
+
+  toString(): string {
+    return this.join();
+  }
+
   slice(begin: i32 = 0, end: i32 = i32.MAX_VALUE): Array<T> {
     var length = this.length_;
     if (begin < 0) begin = max(length + begin, 0);
@@ -278,22 +413,32 @@ export class Array<T> {
         <usize>newLength << alignof<T>()
       );
     }
+    if (isManaged<T>()) linkElements<T>(sliced);
     return sliced;
   }
 
-  splice(start: i32, deleteCount: i32 = i32.MAX_VALUE): void {
-    if (deleteCount < 1) return;
+  splice(start: i32, deleteCount: i32 = i32.MAX_VALUE): Array<T> {
     var length = this.length_;
     if (start < 0) start = max(length + start, 0);
-    if (start >= length) return;
-    deleteCount = min(deleteCount, length - start);
-    var buffer = this.buffer_;
-    memory.copy(
-      changetype<usize>(buffer) + HEADER_SIZE + (<usize>start << alignof<T>()),
-      changetype<usize>(buffer) + HEADER_SIZE + (<usize>(start + deleteCount) << alignof<T>()),
-      <usize>deleteCount << alignof<T>()
-    );
-    this.length_ = length - deleteCount;
+    else start = min(start, length);
+    deleteCount = max(min(deleteCount, length - start), 0);
+    var removed = new Array<T>(deleteCount);
+    if (deleteCount) {
+      let buffer = this.buffer_;
+      memory.copy(
+        changetype<usize>(removed.buffer_) + HEADER_SIZE,
+        changetype<usize>(buffer) + HEADER_SIZE + (<usize>start << alignof<T>()),
+        <usize>deleteCount << alignof<T>()
+      );
+      memory.copy(
+        changetype<usize>(buffer) + HEADER_SIZE + (<usize>start << alignof<T>()),
+        changetype<usize>(buffer) + HEADER_SIZE + (<usize>(start + deleteCount) << alignof<T>()),
+        <usize>(length - start - deleteCount) << alignof<T>()
+      );
+      this.length_ = length - deleteCount;
+      if (isManaged<T>()) linkElements<T>(removed);
+    }
+    return removed;
   }
 
   reverse(): Array<T> {
@@ -322,19 +467,8 @@ export class Array<T> {
       }
       return this;
     }
-
-    if (isReference<T>()) {
-      // TODO replace this to faster stable sort (TimSort) when it implemented
-      insertionSort<T>(buffer, 0, length, comparator);
-      return this;
-    } else {
-      if (length < 256) {
-        insertionSort<T>(buffer, 0, length, comparator);
-      } else {
-        weakHeapSort<T>(buffer, 0, length, comparator);
-      }
-      return this;
-    }
+    timSort<T>(buffer, 0, length, comparator); // stable
+    return this;
   }
 
   private __gc(): void {
@@ -350,3 +484,11 @@ export class Array<T> {
     }
   }
 }
+
+// links the elements of a newly created array of managed elements to the array
+function linkElements<T>(array: Array<T>): void {
+  var buffer = array.buffer_;
+  for (let index = 0, length = array.length_; index < length; ++index) {
+    __gc_link(changetype<usize>(array), changetype<usize>(loadUnsafe<T,T>(buffer, index))); // tslint:disable-line
+  }
+}
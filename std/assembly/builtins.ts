@@ -5,12 +5,14 @@
 
 @builtin export declare function isInteger<T>(value?: T): bool;
 @builtin export declare function isFloat<T>(value?: T): bool;
+@builtin export declare function isBoolean<T>(value?: T): bool;
 @builtin export declare function isSigned<T>(value?: T): bool;
 @builtin export declare function isReference<T>(value?: T): bool;
 @builtin export declare function isString<T>(value?: T): bool;
 @builtin export declare function isArray<T>(value?: T): bool;
 @builtin export declare function isDefined(expression: void): bool;
 @builtin export declare function isConstant(expression: void): bool;
+@builtin export declare function isUnchecked(): bool;
 @builtin export declare function isManaged<T>(value?: T): bool;
 @inline export function isNaN<T>(value: T): bool { return value != value; }
 @inline export function isFinite<T>(value: T): bool { return value - value == 0; }
@@ -38,10 +40,25 @@
 @builtin export declare function select<T>(ifTrue: T, ifFalse: T, condition: bool): T;
 @builtin export declare function unreachable(): void;
 @builtin export declare function changetype<T>(value: void): T;
+@builtin export declare function instantiate<T>(...args: void[]): T;
 @builtin export declare function assert<T>(isTrueish: T, message?: string): T;
 @builtin export declare function unchecked<T>(expr: T): T;
 @builtin export declare function call_indirect<T>(target: void, ...args: void[]): T;
 
+export namespace atomic {
+  @builtin export declare function load<T>(offset: usize, constantOffset?: usize): T;
+  @builtin export declare function store<T>(offset: usize, value: void, constantOffset?: usize): void;
+  @builtin export declare function add<T>(offset: usize, value: T, constantOffset?: usize): T;
+  @builtin export declare function sub<T>(offset: usize, value: T, constantOffset?: usize): T;
+  @builtin export declare function and<T>(offset: usize, value: T, constantOffset?: usize): T;
+  @builtin export declare function or<T>(offset: usize, value: T, constantOffset?: usize): T;
+  @builtin export declare function xor<T>(offset: usize, value: T, constantOffset?: usize): T;
+  @builtin export declare function xchg<T>(offset: usize, value: T, constantOffset?: usize): T;
+  @builtin export declare function cmpxchg<T>(offset: usize, expected: T, replacement: T, constantOffset?: usize): T;
+  @builtin export declare function wait<T>(offset: usize, expected: T, timeout: i64): i32;
+  @builtin export declare function notify(offset: usize, count: i32): i32;
+}
+
 @builtin export declare function i8(value: void): i8;
 export namespace i8 {
   export const MIN_VALUE: i8 = -128;
@@ -147,12 +164,12 @@ export namespace bool {
 
 @builtin export declare function f32(value: void): f32;
 export namespace f32 {
-  export const MIN_VALUE = reinterpret<f32>(0xFF7FFFFF); // -0x1.fffffep+127f
-  export const MAX_VALUE = reinterpret<f32>(0x7F7FFFFF); //  0x1.fffffep+127f
-  export const MIN_POSITIVE_VALUE = reinterpret<f32>(0x00800000); // 0x1p-126f
+  export const MIN_VALUE: f32 = reinterpret<f32>(0xFF7FFFFF); // -0x1.fffffep+127f
+  export const MAX_VALUE: f32 = reinterpret<f32>(0x7F7FFFFF); //  0x1.fffffep+127f
+  export const MIN_POSITIVE_VALUE: f32 = reinterpret<f32>(0x00800000); // 0x1p-126f
   export const MIN_SAFE_INTEGER: f32 = -16777215;
   export const MAX_SAFE_INTEGER: f32 =  16777215;
-  export const EPSILON = reinterpret<f32>(0x34000000); // 0x1p-23f
+  export const EPSILON: f32 = reinterpret<f32>(0x34000000); // 0x1p-23f
   @builtin export declare function abs(value: f32): f32;
   @builtin export declare function ceil(value: f32): f32;
   @builtin export declare function copysign(x: f32, y: f32): f32;
@@ -169,12 +186,12 @@ export namespace f32 {
 
 @builtin export declare function f64(value: void): f64;
 export namespace f64 {
-  export const MIN_VALUE = reinterpret<f64>(0xFFEFFFFFFFFFFFFF); // -0x1.fffffffffffffp+1023
-  export const MAX_VALUE = reinterpret<f64>(0x7FEFFFFFFFFFFFFF); //  0x1.fffffffffffffp+1023
-  export const MIN_POSITIVE_VALUE = reinterpret<f64>(0x0010000000000000); // 0x1p-1022
+  export const MIN_VALUE: f64 = reinterpret<f64>(0xFFEFFFFFFFFFFFFF); // -0x1.fffffffffffffp+1023
+  export const MAX_VALUE: f64 = reinterpret<f64>(0x7FEFFFFFFFFFFFFF); //  0x1.fffffffffffffp+1023
+  export const MIN_POSITIVE_VALUE: f64 = reinterpret<f64>(0x0010000000000000); // 0x1p-1022
   export const MIN_SAFE_INTEGER: f64 = -9007199254740991;
   export const MAX_SAFE_INTEGER: f64 =  9007199254740991;
-  export const EPSILON = reinterpret<f64>(0x3CB0000000000000); // 0x1p-52
+  export const EPSILON: f64 = reinterpret<f64>(0x3CB0000000000000); // 0x1p-52
   @builtin export declare function abs(value: f64): f64;
   @builtin export declare function ceil(value: f64): f64;
   @builtin export declare function copysign(x: f64, y: f64): f64;
@@ -45,6 +45,8 @@ var iter: ManagedObject;
 // │                              prev                             │ ◄─┘
 // ├───────────────────────────────────────────────────────────────┤
 // │                             hookFn                            │
+// ├───────────────────────────────────────────────────────────────┤
+// │                            classId                            │
 // ╞═══════════════════════════════════════════════════════════════╡ SIZE ┘ ◄─ user-space reference
 // │                          ... data ...                         │
 // └───────────────────────────────────────────────────────────────┘
@@ -62,6 +64,9 @@ var iter: ManagedObject;
   /** Class-specific hook function called with the user-space reference. */
   hookFn: (ref: usize) => void;
 
+  /** Runtime class id, written by the compiler right after allocation. `0` if not a class. */
+  classId: u32;
+
   /** Gets the pointer to the next object. */
   get next(): ManagedObject {
     return changetype<ManagedObject>(this.nextWithColor & ~3);
@@ -213,6 +218,7 @@ function step(): void {
   step(); // also makes sure it's initialized
   var obj = changetype<ManagedObject>(memory.allocate(HEADER_SIZE + size));
   obj.hookFn = markFn;
+  obj.classId = 0;
   obj.color = white;
   fromSpace.push(obj);
   return objToRef(obj);
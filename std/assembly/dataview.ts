@@ -0,0 +1,145 @@
+import {
+  HEADER_SIZE,
+  MAX_BLENGTH
+} from "./internal/arraybuffer";
+
+export class DataView {
+
+  readonly buffer: ArrayBuffer;
+  readonly byteOffset: i32;
+  readonly byteLength: i32;
+
+  constructor(buffer: ArrayBuffer, byteOffset: i32 = 0, byteLength: i32 = i32.MIN_VALUE) {
+    var bufferLength = buffer.byteLength;
+    if (byteLength == i32.MIN_VALUE) byteLength = bufferLength - byteOffset; // remaining bytes
+    if (<u32>byteOffset > <u32>bufferLength) throw new RangeError("Invalid DataView offset");
+    if (<u32>byteLength > <u32>MAX_BLENGTH || byteOffset + byteLength > bufferLength) {
+      throw new RangeError("Invalid DataView length");
+    }
+    this.buffer = buffer;
+    this.byteOffset = byteOffset;
+    this.byteLength = byteLength;
+  }
+
+  @inline
+  getInt8(byteOffset: i32): i8 {
+    return <i8>load<i8>(this.checkedPtr<i8>(byteOffset), HEADER_SIZE);
+  }
+
+  @inline
+  getUint8(byteOffset: i32): u8 {
+    return <u8>load<u8>(this.checkedPtr<u8>(byteOffset), HEADER_SIZE);
+  }
+
+  @inline
+  getInt16(byteOffset: i32, littleEndian: bool = false): i16 {
+    var value = <i16>load<i16>(this.checkedPtr<i16>(byteOffset), HEADER_SIZE);
+    return littleEndian ? value : bswap<i16>(value);
+  }
+
+  @inline
+  getUint16(byteOffset: i32, littleEndian: bool = false): u16 {
+    var value = <u16>load<u16>(this.checkedPtr<u16>(byteOffset), HEADER_SIZE);
+    return littleEndian ? value : bswap<u16>(value);
+  }
+
+  @inline
+  getInt32(byteOffset: i32, littleEndian: bool = false): i32 {
+    var value = load<i32>(this.checkedPtr<i32>(byteOffset), HEADER_SIZE);
+    return littleEndian ? value : bswap<i32>(value);
+  }
+
+  @inline
+  getUint32(byteOffset: i32, littleEndian: bool = false): u32 {
+    var value = load<u32>(this.checkedPtr<u32>(byteOffset), HEADER_SIZE);
+    return littleEndian ? value : bswap<u32>(value);
+  }
+
+  @inline
+  getInt64(byteOffset: i32, littleEndian: bool = false): i64 {
+    var value = load<i64>(this.checkedPtr<i64>(byteOffset), HEADER_SIZE);
+    return littleEndian ? value : bswap<i64>(value);
+  }
+
+  @inline
+  getUint64(byteOffset: i32, littleEndian: bool = false): u64 {
+    var value = load<u64>(this.checkedPtr<u64>(byteOffset), HEADER_SIZE);
+    return littleEndian ? value : bswap<u64>(value);
+  }
+
+  @inline
+  getFloat32(byteOffset: i32, littleEndian: bool = false): f32 {
+    var value = load<u32>(this.checkedPtr<f32>(byteOffset), HEADER_SIZE);
+    return reinterpret<f32>(littleEndian ? value : bswap<u32>(value));
+  }
+
+  @inline
+  getFloat64(byteOffset: i32, littleEndian: bool = false): f64 {
+    var value = load<u64>(this.checkedPtr<f64>(byteOffset), HEADER_SIZE);
+    return reinterpret<f64>(littleEndian ? value : bswap<u64>(value));
+  }
+
+  @inline
+  setInt8(byteOffset: i32, value: i8): void {
+    store<i8>(this.checkedPtr<i8>(byteOffset), value, HEADER_SIZE);
+  }
+
+  @inline
+  setUint8(byteOffset: i32, value: u8): void {
+    store<u8>(this.checkedPtr<u8>(byteOffset), value, HEADER_SIZE);
+  }
+
+  @inline
+  setInt16(byteOffset: i32, value: i16, littleEndian: bool = false): void {
+    store<i16>(this.checkedPtr<i16>(byteOffset), littleEndian ? value : bswap<i16>(value), HEADER_SIZE);
+  }
+
+  @inline
+  setUint16(byteOffset: i32, value: u16, littleEndian: bool = false): void {
+    store<u16>(this.checkedPtr<u16>(byteOffset), littleEndian ? value : bswap<u16>(value), HEADER_SIZE);
+  }
+
+  @inline
+  setInt32(byteOffset: i32, value: i32, littleEndian: bool = false): void {
+    store<i32>(this.checkedPtr<i32>(byteOffset), littleEndian ? value : bswap<i32>(value), HEADER_SIZE);
+  }
+
+  @inline
+  setUint32(byteOffset: i32, value: u32, littleEndian: bool = false): void {
+    store<u32>(this.checkedPtr<u32>(byteOffset), littleEndian ? value : bswap<u32>(value), HEADER_SIZE);
+  }
+
+  @inline
+  setInt64(byteOffset: i32, value: i64, littleEndian: bool = false): void {
+    store<i64>(this.checkedPtr<i64>(byteOffset), littleEndian ? value : bswap<i64>(value), HEADER_SIZE);
+  }
+
+  @inline
+  setUint64(byteOffset: i32, value: u64, littleEndian: bool = false): void {
+    store<u64>(this.checkedPtr<u64>(byteOffset), littleEndian ? value : bswap<u64>(value), HEADER_SIZE);
+  }
+
+  @inline
+  setFloat32(byteOffset: i32, value: f32, littleEndian: bool = false): void {
+    var bits = reinterpret<u32>(value);
+    store<u32>(this.checkedPtr<f32>(byteOffset), littleEndian ? bits : bswap<u32>(bits), HEADER_SIZE);
+  }
+
+  @inline
+  setFloat64(byteOffset: i32, value: f64, littleEndian: bool = false): void {
+    var bits = reinterpret<u64>(value);
+    store<u64>(this.checkedPtr<f64>(byteOffset), littleEndian ? bits : bswap<u64>(bits), HEADER_SIZE);
+  }
+
+  // computes the address of a value of type T at the specified offset, checking bounds unless the
+  // accessor is used within `unchecked(...)`.
+  @inline
+  private checkedPtr<T>(byteOffset: i32): usize {
+    if (!isUnchecked()) {
+      if (byteOffset < 0 || byteOffset + <i32>sizeof<T>() > this.byteLength) {
+        throw new RangeError("Offset out of bounds");
+      }
+    }
+    return changetype<usize>(this.buffer) + <usize>this.byteOffset + <usize>byteOffset;
+  }
+}
@@ -0,0 +1,341 @@
+import {
+  Date_now
+} from "./env";
+
+import {
+  CharCode
+} from "./internal/string";
+
+import {
+  itoa
+} from "./internal/itoa";
+
+const MILLIS_PER_DAY: i64 = 86400000;
+const MILLIS_PER_HOUR: i64 = 3600000;
+const MILLIS_PER_MINUTE: i64 = 60000;
+const MILLIS_PER_SECOND: i64 = 1000;
+
+/** Maximum distance of a time value from the epoch, 100,000,000 days. */
+const MAX_TIME: i64 = 8640000000000000;
+
+// see: http://howardhinnant.github.io/date_algorithms.html
+
+// computes the number of days since the epoch of the specified proleptic Gregorian date
+function daysFromCivil(year: i32, month: i32, day: i32): i64 {
+  if (month <= 2) --year;
+  var era = (year >= 0 ? year : year - 399) / 400;
+  var yoe = year - era * 400;
+  var doy = (153 * (month > 2 ? month - 3 : month + 9) + 2) / 5 + day - 1;
+  var doe = yoe * 365 + yoe / 4 - yoe / 100 + doy;
+  return <i64>era * 146097 + doe - 719468;
+}
+
+// computes the proleptic Gregorian date of the specified number of days since the epoch, packed
+// as `year << 9 | month << 5 | day` with a 1-based month and day
+function civilFromDays(days: i64): i64 {
+  days += 719468;
+  var era = (days >= 0 ? days : days - 146096) / 146097;
+  var doe = <i32>(days - era * 146097);
+  var yoe = (doe - doe / 1460 + doe / 36524 - doe / 146096) / 365;
+  var doy = doe - (365 * yoe + yoe / 4 - yoe / 100);
+  var mp = (5 * doy + 2) / 153;
+  var day = doy - (153 * mp + 2) / 5 + 1;
+  var month = mp < 10 ? mp + 3 : mp - 9;
+  var year = <i64>yoe + era * 400 + <i64>(month <= 2);
+  return year << 9 | month << 5 | day;
+}
+
+@inline
+function floorDiv(value: i64, divisor: i64): i64 {
+  return (value >= 0 ? value : value - divisor + 1) / divisor;
+}
+
+// computes the time value of the specified fields, each of which may be out of its usual range
+function makeTime(
+  year: i32, month: i32, day: i32, hour: i32, minute: i32, second: i32, millisecond: i32
+): i64 {
+  var years = <i32>floorDiv(month, 12);
+  var days = daysFromCivil(year + years, month - years * 12 + 1, 1) + day - 1;
+  return (
+    days * MILLIS_PER_DAY +
+    <i64>hour * MILLIS_PER_HOUR +
+    <i64>minute * MILLIS_PER_MINUTE +
+    <i64>second * MILLIS_PER_SECOND +
+    millisecond
+  );
+}
+
+@inline
+function checkTime(value: i64): i64 {
+  if (value < -MAX_TIME || value > MAX_TIME) throw new RangeError("Invalid time value");
+  return value;
+}
+
+// parses exactly `count` decimal digits at the specified position, returning -1 if there are none
+function parseDigits(str: string, pos: i32, count: i32): i32 {
+  if (pos + count > str.length) return -1;
+  var value = 0;
+  for (let i = 0; i < count; ++i) {
+    let digit = str.charCodeAt(pos + i) - CharCode._0;
+    if (<u32>digit > 9) return -1;
+    value = value * 10 + digit;
+  }
+  return value;
+}
+
+function pad(value: i32, length: i32): string {
+  return itoa<i32>(value).padStart(length, "0");
+}
+
+@inline
+function invalidDate(): void {
+  throw new RangeError("Invalid date string");
+}
+
+export class Date {
+
+  /** Gets the current time value in milliseconds since the epoch. */
+  @inline
+  static now(): i64 {
+    return <i64>Date_now();
+  }
+
+  /** Computes the time value of the specified UTC date and time. Fields out of range carry over. */
+  static UTC(
+    year: i32,
+    month: i32 = 0,
+    day: i32 = 1,
+    hour: i32 = 0,
+    minute: i32 = 0,
+    second: i32 = 0,
+    millisecond: i32 = 0
+  ): i64 {
+    return checkTime(makeTime(year, month, day, hour, minute, second, millisecond));
+  }
+
+  /**
+   * Parses an ISO 8601 date or date-time as formatted by `toISOString`, i.e. `YYYY`, `YYYY-MM`
+   * or `YYYY-MM-DD` optionally followed by `THH:mm`, `:ss`, `.sss` and a `Z` or `±HH:mm` offset.
+   * Extended years are written `±YYYYYY`. Times without an offset are considered UTC.
+   */
+  static parse(dateString: string): i64 {
+    var length = dateString.length;
+    var pos = 0;
+    var year: i32;
+    var sign = length ? dateString.charCodeAt(0) : 0;
+    if (sign == CharCode.PLUS || sign == CharCode.MINUS) {
+      year = parseDigits(dateString, 1, 6);
+      if (year < 0 || (sign == CharCode.MINUS && !year)) invalidDate();
+      if (sign == CharCode.MINUS) year = -year;
+      pos = 7;
+    } else {
+      year = parseDigits(dateString, 0, 4);
+      if (year < 0) invalidDate();
+      pos = 4;
+    }
+    var month = 1;
+    var day = 1;
+    if (pos < length && dateString.charCodeAt(pos) == CharCode.MINUS) {
+      month = parseDigits(dateString, pos + 1, 2);
+      if (month < 1 || month > 12) invalidDate();
+      pos += 3;
+      if (pos < length && dateString.charCodeAt(pos) == CharCode.MINUS) {
+        day = parseDigits(dateString, pos + 1, 2);
+        if (day < 1 || day > 31) invalidDate();
+        pos += 3;
+      }
+    }
+    var days = daysFromCivil(year, month, day);
+    if (<i32>(civilFromDays(days) & 31) != day) invalidDate(); // e.g. February 30th
+    var time: i64 = 0;
+    if (pos < length && dateString.charCodeAt(pos) == CharCode.T) {
+      let hour = parseDigits(dateString, pos + 1, 2);
+      let minute = parseDigits(dateString, pos + 4, 2);
+      if (
+        hour < 0 || hour > 24 || minute < 0 || minute > 59 ||
+        dateString.charCodeAt(pos + 3) != CharCode.COLON
+      ) invalidDate();
+      pos += 6;
+      let second = 0;
+      let millisecond = 0;
+      if (pos < length && dateString.charCodeAt(pos) == CharCode.COLON) {
+        second = parseDigits(dateString, pos + 1, 2);
+        if (second < 0 || second > 59) invalidDate();
+        pos += 3;
+        if (pos < length && dateString.charCodeAt(pos) == CharCode.DOT) {
+          let start = ++pos;
+          let scale = 100;
+          while (pos < length) {
+            let digit = dateString.charCodeAt(pos) - CharCode._0;
+            if (<u32>digit > 9) break;
+            millisecond += digit * scale; // digits beyond milliseconds are truncated
+            scale /= 10;
+            ++pos;
+          }
+          if (pos == start) invalidDate();
+        }
+      }
+      if (hour == 24 && (minute | second | millisecond) != 0) invalidDate();
+      time = (
+        <i64>hour * MILLIS_PER_HOUR +
+        <i64>minute * MILLIS_PER_MINUTE +
+        <i64>second * MILLIS_PER_SECOND +
+        millisecond
+      );
+      if (pos < length) {
+        let c = dateString.charCodeAt(pos);
+        if (c == CharCode.Z) {
+          ++pos;
+        } else if (c == CharCode.PLUS || c == CharCode.MINUS) {
+          let offsetHour = parseDigits(dateString, pos + 1, 2);
+          let offsetMinute = parseDigits(dateString, pos + 4, 2);
+          if (
+            offsetHour < 0 || offsetHour > 23 || offsetMinute < 0 || offsetMinute > 59 ||
+            dateString.charCodeAt(pos + 3) != CharCode.COLON
+          ) invalidDate();
+          let offset = <i64>offsetHour * MILLIS_PER_HOUR + <i64>offsetMinute * MILLIS_PER_MINUTE;
+          time -= c == CharCode.PLUS ? offset : -offset;
+          pos += 6;
+        }
+      }
+    }
+    if (pos != length) invalidDate();
+    return checkTime(days * MILLIS_PER_DAY + time);
+  }
+
+  /** Creates a new date from an ISO 8601 date or date-time, see {@link Date.parse}. */
+  static fromString(dateString: string): Date {
+    return new Date(Date.parse(dateString));
+  }
+
+  private value: i64;
+
+  constructor(value: i64 = Date.now()) {
+    this.value = checkTime(value);
+  }
+
+  getTime(): i64 {
+    return this.value;
+  }
+
+  setTime(value: i64): i64 {
+    this.value = checkTime(value);
+    return value;
+  }
+
+  getUTCFullYear(): i32 {
+    return <i32>(civilFromDays(floorDiv(this.value, MILLIS_PER_DAY)) >> 9);
+  }
+
+  getUTCMonth(): i32 {
+    return <i32>(civilFromDays(floorDiv(this.value, MILLIS_PER_DAY)) >> 5 & 15) - 1;
+  }
+
+  getUTCDate(): i32 {
+    return <i32>(civilFromDays(floorDiv(this.value, MILLIS_PER_DAY)) & 31);
+  }
+
+  getUTCDay(): i32 {
+    var weekday = <i32>((floorDiv(this.value, MILLIS_PER_DAY) + 4) % 7); // the epoch is a Thursday
+    return weekday < 0 ? weekday + 7 : weekday;
+  }
+
+  getUTCHours(): i32 {
+    return <i32>(this.millisOfDay() / MILLIS_PER_HOUR);
+  }
+
+  getUTCMinutes(): i32 {
+    return <i32>(this.millisOfDay() / MILLIS_PER_MINUTE % 60);
+  }
+
+  getUTCSeconds(): i32 {
+    return <i32>(this.millisOfDay() / MILLIS_PER_SECOND % 60);
+  }
+
+  getUTCMilliseconds(): i32 {
+    return <i32>(this.millisOfDay() % MILLIS_PER_SECOND);
+  }
+
+  setUTCFullYear(year: i32): i64 {
+    return this.setFields(year, this.getUTCMonth(), this.getUTCDate(), this.millisOfDay());
+  }
+
+  setUTCMonth(month: i32): i64 {
+    return this.setFields(this.getUTCFullYear(), month, this.getUTCDate(), this.millisOfDay());
+  }
+
+  setUTCDate(day: i32): i64 {
+    return this.setFields(this.getUTCFullYear(), this.getUTCMonth(), day, this.millisOfDay());
+  }
+
+  setUTCHours(hour: i32): i64 {
+    var millis = this.millisOfDay();
+    return this.setTime(this.value - millis + <i64>hour * MILLIS_PER_HOUR + millis % MILLIS_PER_HOUR);
+  }
+
+  setUTCMinutes(minute: i32): i64 {
+    var millis = this.millisOfDay();
+    var hours = millis - millis % MILLIS_PER_HOUR;
+    return this.setTime(this.value - millis + hours + <i64>minute * MILLIS_PER_MINUTE + millis % MILLIS_PER_MINUTE);
+  }
+
+  setUTCSeconds(second: i32): i64 {
+    var millis = this.millisOfDay();
+    var minutes = millis - millis % MILLIS_PER_MINUTE;
+    return this.setTime(this.value - millis + minutes + <i64>second * MILLIS_PER_SECOND + millis % MILLIS_PER_SECOND);
+  }
+
+  setUTCMilliseconds(millisecond: i32): i64 {
+    var millis = this.millisOfDay();
+    return this.setTime(this.value - millis % MILLIS_PER_SECOND + millisecond);
+  }
+
+  /** Formats this date as an ISO 8601 date-time, i.e. `YYYY-MM-DDTHH:mm:ss.sssZ`. */
+  toISOString(): string {
+    var year = this.getUTCFullYear();
+    var yearString = <u32>year <= 9999
+      ? pad(year, 4)
+      : (year < 0 ? "-" : "+") + pad(abs<i32>(year), 6);
+    return (
+      yearString + "-" +
+      pad(this.getUTCMonth() + 1, 2) + "-" +
+      pad(this.getUTCDate(), 2) + "T" +
+      pad(this.getUTCHours(), 2) + ":" +
+      pad(this.getUTCMinutes(), 2) + ":" +
+      pad(this.getUTCSeconds(), 2) + "." +
+      pad(this.getUTCMilliseconds(), 3) + "Z"
+    );
+  }
+
+  /** Formats this date as an RFC 7231 date, e.g. `Thu, 01 Jan 1970 00:00:00 GMT`. */
+  toUTCString(): string {
+    const weekdays = "SunMonTueWedThuFriSat";
+    const months = "JanFebMarAprMayJunJulAugSepOctNovDec";
+    var weekday = this.getUTCDay() * 3;
+    var month = this.getUTCMonth() * 3;
+    var year = this.getUTCFullYear();
+    return (
+      weekdays.substring(weekday, weekday + 3) + ", " +
+      pad(this.getUTCDate(), 2) + " " +
+      months.substring(month, month + 3) + " " +
+      (year < 0 ? "-" + pad(-year, 4) : pad(year, 4)) + " " +
+      pad(this.getUTCHours(), 2) + ":" +
+      pad(this.getUTCMinutes(), 2) + ":" +
+      pad(this.getUTCSeconds(), 2) + " GMT"
+    );
+  }
+
+  toString(): string {
+    return this.toISOString();
+  }
+
+  // milliseconds since midnight
+  private millisOfDay(): i64 {
+    var value = this.value;
+    return value - floorDiv(value, MILLIS_PER_DAY) * MILLIS_PER_DAY;
+  }
+
+  private setFields(year: i32, month: i32, day: i32, millisOfDay: i64): i64 {
+    return this.setTime(makeTime(year, month, day, 0, 0, 0, 0) + millisOfDay);
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  HEADER_SIZE
+} from "./internal/arraybuffer";
+
+import {
+  decodeUTF8Unsafe,
+  decodeUTF16LEUnsafe,
+  decodeWindows1252Unsafe,
+  encodeUTF8Unsafe
+} from "./internal/encoding";
+
+const enum Encoding {
+  UTF8,
+  UTF16LE,
+  WINDOWS_1252
+}
+
+// resolves a WHATWG encoding label, see https://encoding.spec.whatwg.org/#names-and-labels
+function resolveLabel(label: string): Encoding {
+  label = label.trim().toLowerCase();
+  if (
+    label == "utf-8" || label == "utf8" || label == "unicode-1-1-utf-8" ||
+    label == "unicode11utf8" || label == "unicode20utf8" || label == "x-unicode20utf8"
+  ) return Encoding.UTF8;
+  if (
+    label == "utf-16le" || label == "utf-16" || label == "unicode" || label == "unicodefeff" ||
+    label == "ucs-2" || label == "csunicode" || label == "iso-10646-ucs-2"
+  ) return Encoding.UTF16LE;
+  if (
+    label == "windows-1252" || label == "latin1" || label == "iso-8859-1" || label == "ascii" ||
+    label == "us-ascii" || label == "l1" || label == "cp1252" || label == "x-cp1252" ||
+    label == "cp819" || label == "ibm819" || label == "iso8859-1" || label == "iso88591" ||
+    label == "iso_8859-1" || label == "iso_8859-1:1987" || label == "iso-ir-100" ||
+    label == "csisolatin1" || label == "ansi_x3.4-1968"
+  ) return Encoding.WINDOWS_1252;
+  throw new RangeError("Unsupported encoding");
+}
+
+export class TextEncoder {
+
+  readonly encoding: string = "utf-8";
+
+  encode(input: string = ""): Uint8Array {
+    var out = new Uint8Array(input.lengthUTF8 - 1); // excl. null terminator
+    encodeUTF8Unsafe(input, changetype<usize>(out.buffer) + HEADER_SIZE);
+    return out;
+  }
+}
+
+export class TextDecoder {
+
+  readonly encoding: string;
+  readonly fatal: bool;
+  readonly ignoreBOM: bool;
+  private kind: Encoding;
+
+  constructor(label: string = "utf-8", fatal: bool = false, ignoreBOM: bool = false) {
+    var kind = resolveLabel(label);
+    this.kind = kind;
+    this.encoding = kind == Encoding.UTF8
+      ? "utf-8"
+      : kind == Encoding.UTF16LE
+        ? "utf-16le"
+        : "windows-1252";
+    this.fatal = fatal;
+    this.ignoreBOM = ignoreBOM;
+  }
+
+  decode(input: Uint8Array): string {
+    var ptr = changetype<usize>(input.buffer) + HEADER_SIZE + <usize>input.byteOffset;
+    var len = <usize>input.length;
+    switch (this.kind) {
+      case Encoding.UTF8: {
+        if (!this.ignoreBOM && len >= 3 && load<u16>(ptr) == 0xBBEF && load<u8>(ptr, 2) == 0xBF) {
+          ptr += 3; len -= 3;
+        }
+        return decodeUTF8Unsafe(ptr, len, this.fatal);
+      }
+      case Encoding.UTF16LE: {
+        if (!this.ignoreBOM && len >= 2 && load<u16>(ptr) == 0xFEFF) {
+          ptr += 2; len -= 2;
+        }
+        return decodeUTF16LEUnsafe(ptr, len, this.fatal);
+      }
+      default: return decodeWindows1252Unsafe(ptr, len);
+    }
+  }
+}
@@ -14,3 +14,9 @@ declare function trace(
   a3?: f64,
   a4?: f64
 ): void;
+
+@external("Date", "now")
+export declare function Date_now(): f64;
+
+@external("performance", "now")
+export declare function performance_now(): f64;
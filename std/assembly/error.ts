@@ -10,3 +10,4 @@ export class Error {
 
 export class RangeError extends Error {}
 export class TypeError extends Error {}
+export class SyntaxError extends Error {}
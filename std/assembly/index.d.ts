@@ -52,6 +52,12 @@ declare const ASC_SHRINK_LEVEL: i32;
 declare const ASC_FEATURE_MUTABLE_GLOBAL: bool;
 /** Whether the sign extension feature is enabled. */
 declare const ASC_FEATURE_SIGN_EXTENSION: bool;
+/** Whether the exception handling feature is enabled. */
+declare const ASC_FEATURE_EXCEPTION_HANDLING: bool;
+/** Whether the threads feature is enabled. */
+declare const ASC_FEATURE_THREADS: bool;
+/** Whether the multi-value feature is enabled. */
+declare const ASC_FEATURE_MULTI_VALUE: bool;
 
 // Builtins
 
@@ -108,6 +114,8 @@ declare function alignof<T>(): usize;
 declare function offsetof<T>(fieldName?: string): usize;
 /** Changes the type of any value of `usize` kind to another one of `usize` kind. Useful for casting class instances to their pointer values and vice-versa. Beware that this is unsafe.*/
 declare function changetype<T>(value: any): T;
+/** Creates a new instance of the specified class type, calling its constructor with the specified arguments if present. */
+declare function instantiate<T>(...args: any[]): T;
 /** Explicitly requests no bounds checks on the provided expression. Useful for array accesses. */
 declare function unchecked<T>(value: T): T;
 /** Emits a `call_indirect` instruction, calling the specified function in the function table by index with the specified arguments. Does result in a runtime error if the arguments do not match the called function. */
@@ -120,6 +128,8 @@ declare function isFinite<T = f32 | f64>(value: T): bool;
 declare function isInteger<T>(value?: any): value is number;
 /** Tests if the specified type *or* expression is of a float type. Compiles to a constant. */
 declare function isFloat<T>(value?: any): value is number;
+/** Tests if the specified type *or* expression is of a boolean type. Compiles to a constant. */
+declare function isBoolean<T>(value?: any): value is bool;
 /** Tests if the specified type *or* expression can represent negative numbers. Compiles to a constant. */
 declare function isSigned<T>(value?: any): value is number;
 /** Tests if the specified type *or* expression is of a reference type. Compiles to a constant. */
@@ -132,6 +142,8 @@ declare function isArray<T>(value?: any): value is Array<any>;
 declare function isDefined(expression: any): bool;
 /** Tests if the specified expression evaluates to a constant value. Compiles to a constant. */
 declare function isConstant(expression: any): bool;
+/** Tests if the current context explicitly requests no bounds checks, as within {@link unchecked}. Compiles to a constant. */
+declare function isUnchecked(): bool;
 /** Tests if the specified type *or* expression is of a managed type. Compiles to a constant. */
 declare function isManaged<T>(value?: any): bool;
 /** Traps if the specified value is not true-ish, otherwise returns the (non-nullable) value. */
@@ -358,6 +370,32 @@ declare namespace gc {
   export function collect(): void;
 }
 
+/** Atomic operations on shared memory. Requires the threads feature. */
+declare namespace atomic {
+  /** Atomically loads an integer value of the specified type from memory. */
+  export function load<T>(ptr: usize, constantOffset?: usize): T;
+  /** Atomically stores an integer value of the specified type to memory. */
+  export function store<T>(ptr: usize, value: any, constantOffset?: usize): void;
+  /** Atomically adds an integer value in memory, returning the previous value. */
+  export function add<T>(ptr: usize, value: T, constantOffset?: usize): T;
+  /** Atomically subtracts an integer value in memory, returning the previous value. */
+  export function sub<T>(ptr: usize, value: T, constantOffset?: usize): T;
+  /** Atomically performs a bitwise AND operation on an integer value in memory, returning the previous value. */
+  export function and<T>(ptr: usize, value: T, constantOffset?: usize): T;
+  /** Atomically performs a bitwise OR operation on an integer value in memory, returning the previous value. */
+  export function or<T>(ptr: usize, value: T, constantOffset?: usize): T;
+  /** Atomically performs a bitwise XOR operation on an integer value in memory, returning the previous value. */
+  export function xor<T>(ptr: usize, value: T, constantOffset?: usize): T;
+  /** Atomically exchanges an integer value in memory, returning the previous value. */
+  export function xchg<T>(ptr: usize, value: T, constantOffset?: usize): T;
+  /** Atomically replaces an integer value in memory if it equals the expected value, returning the previous value. */
+  export function cmpxchg<T>(ptr: usize, expected: T, replacement: T, constantOffset?: usize): T;
+  /** Waits for a notification if the 32-bit or 64-bit value in memory equals the expected value. Returns `0` if woken, `1` if the value did not match and `2` if timed out. A negative timeout in nanoseconds never times out. */
+  export function wait<T = i32 | i64>(ptr: usize, expected: T, timeout: i64): i32;
+  /** Wakes up to the specified number of agents waiting on the given address. Returns the number of agents woken. */
+  export function notify(ptr: usize, count: i32): i32;
+}
+
 /** Table operations. */
 declare namespace table {
   /** Copies elements from a passive element segment to a table. */
@@ -406,37 +444,186 @@ declare abstract class TypedArray<T> implements ArrayBufferView<T> {
   readonly length: i32;
   /** Returns a new TypedArray of this type on the same ArrayBuffer from begin inclusive to end exclusive. */
   subarray(begin?: i32, end?: i32): this;
+  /** Returns a new TypedArray of this type with a copy of the elements from begin inclusive to end exclusive. */
+  slice(begin?: i32, end?: i32): this;
+  /** Sets the elements from begin inclusive to end exclusive to the specified value. */
+  fill(value: T, begin?: i32, end?: i32): this;
+  /** Copies the elements of the specified array or typed array to this array, starting at the specified offset. */
+  set<U>(source: U, offset?: i32): void;
+  /** Copies the elements from begin inclusive to end exclusive to the specified target index within this array. */
+  copyWithin(target: i32, begin?: i32, end?: i32): this;
+  /** Returns the index of the first element equal to the specified value, or `-1` if there is none. */
+  indexOf(searchElement: T, fromIndex?: i32): i32;
+  /** Returns the index of the last element equal to the specified value, or `-1` if there is none. */
+  lastIndexOf(searchElement: T, fromIndex?: i32): i32;
+  /** Tests if an element equal to the specified value exists, including `NaN`. */
+  includes(searchElement: T, fromIndex?: i32): bool;
+  /** Tests if all elements satisfy the specified predicate. */
+  every(callbackfn: (value: T, index: i32, array: this) => bool): bool;
+  /** Tests if any element satisfies the specified predicate. */
+  some(callbackfn: (value: T, index: i32, array: this) => bool): bool;
+  /** Calls the specified function for each element. */
+  forEach(callbackfn: (value: T, index: i32, array: this) => void): void;
+  /** Returns a new TypedArray of this type with the results of calling the specified function for each element. */
+  map(callbackfn: (value: T, index: i32, array: this) => T): this;
+  /** Returns a new TypedArray of this type with the elements satisfying the specified predicate. */
+  filter(callbackfn: (value: T, index: i32, array: this) => bool): this;
+  /** Reduces the elements to a single value, from the first to the last element. */
+  reduce<U>(callbackfn: (accumulator: U, value: T, index: i32, array: this) => U, initialValue: U): U;
+  /** Reduces the elements to a single value, from the last to the first element. */
+  reduceRight<U>(callbackfn: (accumulator: U, value: T, index: i32, array: this) => U, initialValue: U): U;
+  /** Reverses the elements in place. */
+  reverse(): this;
+  /** Joins the string representations of the elements, separated by the specified separator. */
+  join(separator?: string): string;
 }
 
 /** An array of twos-complement 8-bit signed integers. */
-declare class Int8Array extends TypedArray<i8> {}
+declare class Int8Array extends TypedArray<i8> {
+  /** Creates a new Int8Array from the elements of the specified array or typed array. */
+  static from<U>(source: U): Int8Array;
+  /** Creates a new Int8Array from the specified values. */
+  static of(...values: i8[]): Int8Array;
+}
 /** An array of 8-bit unsigned integers. */
-declare class Uint8Array extends TypedArray<u8> {}
+declare class Uint8Array extends TypedArray<u8> {
+  /** Creates a new Uint8Array from the elements of the specified array or typed array. */
+  static from<U>(source: U): Uint8Array;
+  /** Creates a new Uint8Array from the specified values. */
+  static of(...values: u8[]): Uint8Array;
+}
+/** A clamped array of 8-bit unsigned integers. */
+declare class Uint8ClampedArray extends TypedArray<u8> {
+  /** Creates a new Uint8ClampedArray from the elements of the specified array or typed array. */
+  static from<U>(source: U): Uint8ClampedArray;
+  /** Creates a new Uint8ClampedArray from the specified values. */
+  static of(...values: i32[]): Uint8ClampedArray;
+}
 /** An array of twos-complement 16-bit signed integers. */
-declare class Int16Array extends TypedArray<i16> {}
+declare class Int16Array extends TypedArray<i16> {
+  /** Creates a new Int16Array from the elements of the specified array or typed array. */
+  static from<U>(source: U): Int16Array;
+  /** Creates a new Int16Array from the specified values. */
+  static of(...values: i16[]): Int16Array;
+}
 /** An array of 16-bit unsigned integers. */
-declare class Uint16Array extends TypedArray<u16> {}
+declare class Uint16Array extends TypedArray<u16> {
+  /** Creates a new Uint16Array from the elements of the specified array or typed array. */
+  static from<U>(source: U): Uint16Array;
+  /** Creates a new Uint16Array from the specified values. */
+  static of(...values: u16[]): Uint16Array;
+}
 /** An array of twos-complement 32-bit signed integers. */
-declare class Int32Array extends TypedArray<i32> {}
+declare class Int32Array extends TypedArray<i32> {
+  /** Creates a new Int32Array from the elements of the specified array or typed array. */
+  static from<U>(source: U): Int32Array;
+  /** Creates a new Int32Array from the specified values. */
+  static of(...values: i32[]): Int32Array;
+}
 /** An array of 32-bit unsigned integers. */
-declare class Uint32Array extends TypedArray<u32> {}
+declare class Uint32Array extends TypedArray<u32> {
+  /** Creates a new Uint32Array from the elements of the specified array or typed array. */
+  static from<U>(source: U): Uint32Array;
+  /** Creates a new Uint32Array from the specified values. */
+  static of(...values: u32[]): Uint32Array;
+}
 /** An array of twos-complement 64-bit signed integers. */
-declare class Int64Array extends TypedArray<i64> {}
+declare class Int64Array extends TypedArray<i64> {
+  /** Creates a new Int64Array from the elements of the specified array or typed array. */
+  static from<U>(source: U): Int64Array;
+  /** Creates a new Int64Array from the specified values. */
+  static of(...values: i64[]): Int64Array;
+}
 /** An array of 64-bit unsigned integers. */
-declare class Uint64Array extends TypedArray<u64> {}
+declare class Uint64Array extends TypedArray<u64> {
+  /** Creates a new Uint64Array from the elements of the specified array or typed array. */
+  static from<U>(source: U): Uint64Array;
+  /** Creates a new Uint64Array from the specified values. */
+  static of(...values: u64[]): Uint64Array;
+}
 /** An array of 32-bit floating point numbers. */
-declare class Float32Array extends TypedArray<f32> {}
+declare class Float32Array extends TypedArray<f32> {
+  /** Creates a new Float32Array from the elements of the specified array or typed array. */
+  static from<U>(source: U): Float32Array;
+  /** Creates a new Float32Array from the specified values. */
+  static of(...values: f32[]): Float32Array;
+}
 /** An array of 64-bit floating point numbers. */
-declare class Float64Array extends TypedArray<f64> {}
+declare class Float64Array extends TypedArray<f64> {
+  /** Creates a new Float64Array from the elements of the specified array or typed array. */
+  static from<U>(source: U): Float64Array;
+  /** Creates a new Float64Array from the specified values. */
+  static of(...values: f64[]): Float64Array;
+}
+
+/** A view reading and writing values of various types at arbitrary offsets of an {@link ArrayBuffer}. Multi-byte values are big endian unless `littleEndian` is set. Accessors check bounds unless used within {@link unchecked}. */
+declare class DataView {
+  /** The {@link ArrayBuffer} referenced by this view. */
+  readonly buffer: ArrayBuffer;
+  /** The offset in bytes from the start of the referenced {@link ArrayBuffer}. */
+  readonly byteOffset: i32;
+  /** The length in bytes from the start of the referenced {@link ArrayBuffer}. */
+  readonly byteLength: i32;
+  /** Constructs a new view on the specified buffer, by default covering all of its bytes past the offset. */
+  constructor(buffer: ArrayBuffer, byteOffset?: i32, byteLength?: i32);
+  /** Gets the signed 8-bit integer at the specified byte offset. */
+  getInt8(byteOffset: i32): i8;
+  /** Gets the unsigned 8-bit integer at the specified byte offset. */
+  getUint8(byteOffset: i32): u8;
+  /** Gets the signed 16-bit integer at the specified byte offset. */
+  getInt16(byteOffset: i32, littleEndian?: bool): i16;
+  /** Gets the unsigned 16-bit integer at the specified byte offset. */
+  getUint16(byteOffset: i32, littleEndian?: bool): u16;
+  /** Gets the signed 32-bit integer at the specified byte offset. */
+  getInt32(byteOffset: i32, littleEndian?: bool): i32;
+  /** Gets the unsigned 32-bit integer at the specified byte offset. */
+  getUint32(byteOffset: i32, littleEndian?: bool): u32;
+  /** Gets the signed 64-bit integer at the specified byte offset. */
+  getInt64(byteOffset: i32, littleEndian?: bool): i64;
+  /** Gets the unsigned 64-bit integer at the specified byte offset. */
+  getUint64(byteOffset: i32, littleEndian?: bool): u64;
+  /** Gets the 32-bit float at the specified byte offset. */
+  getFloat32(byteOffset: i32, littleEndian?: bool): f32;
+  /** Gets the 64-bit float at the specified byte offset. */
+  getFloat64(byteOffset: i32, littleEndian?: bool): f64;
+  /** Sets the signed 8-bit integer at the specified byte offset. */
+  setInt8(byteOffset: i32, value: i8): void;
+  /** Sets the unsigned 8-bit integer at the specified byte offset. */
+  setUint8(byteOffset: i32, value: u8): void;
+  /** Sets the signed 16-bit integer at the specified byte offset. */
+  setInt16(byteOffset: i32, value: i16, littleEndian?: bool): void;
+  /** Sets the unsigned 16-bit integer at the specified byte offset. */
+  setUint16(byteOffset: i32, value: u16, littleEndian?: bool): void;
+  /** Sets the signed 32-bit integer at the specified byte offset. */
+  setInt32(byteOffset: i32, value: i32, littleEndian?: bool): void;
+  /** Sets the unsigned 32-bit integer at the specified byte offset. */
+  setUint32(byteOffset: i32, value: u32, littleEndian?: bool): void;
+  /** Sets the signed 64-bit integer at the specified byte offset. */
+  setInt64(byteOffset: i32, value: i64, littleEndian?: bool): void;
+  /** Sets the unsigned 64-bit integer at the specified byte offset. */
+  setUint64(byteOffset: i32, value: u64, littleEndian?: bool): void;
+  /** Sets the 32-bit float at the specified byte offset. */
+  setFloat32(byteOffset: i32, value: f32, littleEndian?: bool): void;
+  /** Sets the 64-bit float at the specified byte offset. */
+  setFloat64(byteOffset: i32, value: f64, littleEndian?: bool): void;
+}
 
 /** Class representing a sequence of values of type `T`. */
 declare class Array<T> {
   [key: number]: T;
   /** Current length of the array. */
   length: i32;
+  /** Tests if a value is an array. */
+  static isArray<U>(value: U): bool;
+  /** Creates a new array by copying the elements of another array. */
+  static from<U>(source: Array<U>): Array<U>;
+  /** Creates a new array from the specified values. */
+  static of<U>(...values: U[]): Array<U>;
   /** Constructs a new array. */
   constructor(capacity?: i32);
   every(callbackfn: (element: T, index: i32, array?: Array<T>) => bool): bool;
+  fill(value: T, start?: i32, end?: i32): this;
+  find(predicate: (element: T, index: i32, array?: Array<T>) => bool): T;
   findIndex(predicate: (element: T, index: i32, array?: Array<T>) => bool): i32;
   includes(searchElement: T, fromIndex?: i32): bool;
   indexOf(searchElement: T, fromIndex?: i32): i32;
@@ -445,16 +632,22 @@ declare class Array<T> {
   pop(): T;
   forEach(callbackfn: (value: T, index: i32, array: Array<T>) => void): void;
   map<U>(callbackfn: (value: T, index: i32, array: Array<T>) => U): Array<U>;
+  flat<U>(): Array<U>;
+  flatMap<U>(callbackfn: (value: T, index: i32, array: Array<T>) => Array<U>): Array<U>;
   filter(callbackfn: (value: T, index: i32, array: Array<T>) => bool): Array<T>;
   reduce<U>(callbackfn: (previousValue: U, currentValue: T, currentIndex: i32, array: Array<T>) => U, initialValue: U): U;
   reduceRight<U>(callbackfn: (previousValue: U, currentValue: T, currentIndex: i32, array: Array<T>) => U, initialValue: U): U;
   shift(): T;
   some(callbackfn: (element: T, index: i32, array?: Array<T>) => bool): bool;
   unshift(element: T): i32;
-  slice(from: i32, to?: i32): T[];
-  splice(start: i32, deleteCount?: i32): void;
+  concat(items: T[]): T[];
+  copyWithin(target: i32, start?: i32, end?: i32): this;
+  slice(from?: i32, to?: i32): T[];
+  splice(start: i32, deleteCount?: i32): T[];
   reverse(): T[];
   sort(comparator?: (a: T, b: T) => i32): this;
+  join(separator?: string): string;
+  toString(): string;
 }
 
 /** Class representing a C-like array of values of type `T` with limited capabilities. */
@@ -470,6 +663,7 @@ declare class String {
   static fromCharCodes(arr: u16[]): string;
   static fromCodePoint(code: i32): string;
   static fromCodePoints(arr: i32[]): string;
+  static fromUTF8(ptr: usize, len: usize): string;
 
   readonly length: i32;
   readonly lengthUTF8: i32;
@@ -481,6 +675,8 @@ declare class String {
   indexOf(other: string, fromIndex?: i32): u32;
   lastIndexOf(other: string, fromIndex?: i32): i32;
   includes(other: string): bool;
+  localeCompare(other: string): i32;
+  normalize(form?: string): string;
   startsWith(other: string): bool;
   substr(start: u32, length?: u32): string;
   substring(start: u32, end?: u32): string;
@@ -490,6 +686,11 @@ declare class String {
   padStart(targetLength: i32, padString?: string): string;
   padEnd(targetLength: i32, padString?: string): string;
   repeat(count?: i32): string;
+  replace(search: string, replacement: string): string;
+  replaceAll(search: string, replacement: string): string;
+  split(separator?: string, limit?: i32): string[];
+  toLowerCase(): string;
+  toUpperCase(): string;
   toString(): string;
   toUTF8(): usize;
 }
@@ -513,12 +714,86 @@ declare class Error {
 /** Class for indicating an error when a value is not in the set or range of allowed values. */
 declare class RangeError extends Error { }
 
-interface Boolean {}
+/** Class for indicating an error when a value is not of the expected type. */
+declare class TypeError extends Error { }
+
+/** Class for indicating an error when parsing syntactically invalid input, like a regular expression. */
+declare class SyntaxError extends Error { }
+
+interface Boolean {
+  /** Converts this boolean to `"true"` or `"false"`. */
+  toString(): string;
+}
 interface Function {}
 interface IArguments {}
-interface Number {}
+interface Number {
+  /** Converts this value to a string, optionally in the specified radix if an integer. */
+  toString(radix?: i32): string;
+  /** Converts this float to a string with the specified number of digits after the decimal point. */
+  toFixed(fractionDigits?: i32): string;
+  /** Converts this float to a string with the specified number of significant digits. */
+  toPrecision(precision?: i32): string;
+  /** Converts this float to a string in exponential notation, with the specified number of fraction digits if given. */
+  toExponential(fractionDigits?: i32): string;
+}
 interface Object {}
-interface RegExp {}
+
+/** Class representing a regular expression. Supports the `g`, `i` and `m` flags. */
+declare class RegExp {
+  /** Text of the pattern. */
+  readonly source: string;
+  /** Flags, in canonical order. */
+  readonly flags: string;
+  /** Whether the `g` flag is set. */
+  readonly global: bool;
+  /** Whether the `i` flag is set. */
+  readonly ignoreCase: bool;
+  /** Whether the `m` flag is set. */
+  readonly multiline: bool;
+  /** Index at which to start the next match if global. */
+  lastIndex: i32;
+  /** Constructs a new regular expression. Throws a `SyntaxError` if the pattern or flags are invalid. */
+  constructor(pattern: string, flags?: string);
+  /** Finds the next match, returning `null` if there is none. */
+  exec(str: string): RegExpExecArray | null;
+  /** Tests whether there is a next match. */
+  test(str: string): bool;
+  toString(): string;
+}
+
+/** Result of a successful {@link RegExp#exec}. */
+declare class RegExpExecArray {
+  /** String matched against. */
+  readonly input: string;
+  /** Index of the match within the input. */
+  readonly index: i32;
+  /** Number of groups, including the match itself as group 0. */
+  readonly length: i32;
+  /** Gets the text matched by a group, or `null` if it did not participate in the match. */
+  [key: number]: string | null;
+  /** Gets the start index of a group, or `-1` if it did not participate in the match. */
+  start(group?: i32): i32;
+  /** Gets the end index of a group, or `-1` if it did not participate in the match. */
+  end(group?: i32): i32;
+}
+
+/** An iterator over values of type `T`. Tells whether it is done before obtaining the next value. */
+declare abstract class Iterator<T> {
+  /** Whether all values have been obtained. */
+  readonly done: bool;
+  /** Obtains the next value. */
+  next(): T;
+}
+
+/** An iterator that can also be iterated over with `for...of`. */
+declare abstract class IterableIterator<T> extends Iterator<T> {}
+
+/** A key and its value, as obtained when iterating over the entries of a `Map` or `Set`. */
+declare class KeyValue<K,V> {
+  key: K;
+  value: V;
+  constructor(key: K, value: V);
+}
 
 declare class Map<K,V> {
   readonly size: i32;
@@ -527,6 +802,10 @@ declare class Map<K,V> {
   get(key: K): V;
   delete(key: K): bool;
   clear(): void;
+  keys(): IterableIterator<K>;
+  values(): IterableIterator<V>;
+  entries(): IterableIterator<KeyValue<K,V>>;
+  forEach(callbackfn: (value: V, key: K, map: Map<K,V>) => void): void;
 }
 
 declare class Set<T> {
@@ -535,6 +814,173 @@ declare class Set<T> {
   add(value: T): void;
   delete(value: T): bool;
   clear(): void;
+  keys(): IterableIterator<T>;
+  values(): IterableIterator<T>;
+  entries(): IterableIterator<KeyValue<T,T>>;
+  forEach(callbackfn: (value: T, key: T, set: Set<T>) => void): void;
+}
+
+/** Type of a {@link JSONValue}. */
+declare const enum JSONType {
+  NULL,
+  BOOL,
+  NUMBER,
+  STRING,
+  ARRAY,
+  OBJECT
+}
+
+/** A dynamically typed JSON value backed by an `Array` respectively a `Map` if structured. */
+declare class JSONValue {
+  static createNull(): JSONValue;
+  static createBool(value: bool): JSONValue;
+  static createNumber(value: f64): JSONValue;
+  static createString(value: string): JSONValue;
+  static createArray(): JSONValue;
+  static createObject(): JSONValue;
+  constructor(type?: JSONType);
+  readonly type: JSONType;
+  readonly isNull: bool;
+  /** Number of elements if an array. */
+  readonly length: i32;
+  asBool(): bool;
+  asNumber(): f64;
+  asString(): string;
+  asArray(): Array<JSONValue>;
+  asObject(): Map<string,JSONValue>;
+  /** Gets the element at the specified index if an array. */
+  at(index: i32): JSONValue;
+  /** Appends an element if an array. */
+  push(value: JSONValue): JSONValue;
+  /** Tests if the specified key is present if an object. */
+  has(key: string): bool;
+  /** Gets the value of the specified key if an object, or `null` if there is no such key. */
+  get(key: string): JSONValue | null;
+  /** Sets the value of the specified key if an object. */
+  set(key: string, value: JSONValue): JSONValue;
+  toString(): string;
+}
+
+/** Kind of a token produced by a {@link JSONTokenizer}. */
+declare const enum JSONToken {
+  END,
+  BEGIN_OBJECT,
+  END_OBJECT,
+  BEGIN_ARRAY,
+  END_ARRAY,
+  COLON,
+  COMMA,
+  STRING,
+  NUMBER,
+  TRUE,
+  FALSE,
+  NULL
+}
+
+/** Splits JSON text into tokens, one at a time. */
+declare class JSONTokenizer {
+  constructor(text: string);
+  readonly text: string;
+  /** Position after the last token. */
+  readonly position: i32;
+  /** Value of the last `STRING` token. */
+  stringValue: string;
+  /** Value of the last `NUMBER` token. */
+  numberValue: f64;
+  /** Reads the next token. */
+  next(): JSONToken;
+}
+
+declare namespace JSON {
+  /** Parses the specified JSON text to a {@link JSONValue}. */
+  export function parse(text: string): JSONValue;
+  /** Converts the specified {@link JSONValue} to JSON text. */
+  export function stringify(value: JSONValue): string;
+  /** Encodes a value of the specified type as a {@link JSONValue}. Classes must be annotated `@serializable`. */
+  export function encode<T>(value: T): JSONValue;
+  /** Decodes a value of the specified type from a {@link JSONValue}. Classes must be annotated `@serializable`. */
+  export function decode<T>(value: JSONValue | null): T;
+}
+
+/** A point in time in milliseconds since the Unix epoch. All fields are in UTC. */
+declare class Date {
+  /** Gets the current time value as reported by the host's `Date.now`. */
+  static now(): i64;
+  /** Computes the time value of the specified UTC date and time. Fields out of range carry over to the next larger field. */
+  static UTC(year: i32, month?: i32, day?: i32, hour?: i32, minute?: i32, second?: i32, millisecond?: i32): i64;
+  /** Parses an ISO 8601 date or date-time to a time value. Times without an offset are considered UTC. Throws a `RangeError` if invalid. */
+  static parse(dateString: string): i64;
+  /** Creates a new date from an ISO 8601 date or date-time. Throws a `RangeError` if invalid. */
+  static fromString(dateString: string): Date;
+  /** Constructs a new date of the specified time value, by default the current time. */
+  constructor(value?: i64);
+  /** Gets the time value in milliseconds since the epoch. */
+  getTime(): i64;
+  /** Sets the time value in milliseconds since the epoch. */
+  setTime(value: i64): i64;
+  /** Gets the year. */
+  getUTCFullYear(): i32;
+  /** Gets the month, from `0` for January to `11` for December. */
+  getUTCMonth(): i32;
+  /** Gets the day of the month, from `1` to `31`. */
+  getUTCDate(): i32;
+  /** Gets the day of the week, from `0` for Sunday to `6` for Saturday. */
+  getUTCDay(): i32;
+  /** Gets the hour, from `0` to `23`. */
+  getUTCHours(): i32;
+  /** Gets the minute, from `0` to `59`. */
+  getUTCMinutes(): i32;
+  /** Gets the second, from `0` to `59`. */
+  getUTCSeconds(): i32;
+  /** Gets the millisecond, from `0` to `999`. */
+  getUTCMilliseconds(): i32;
+  /** Sets the year, keeping all other fields. Returns the new time value. */
+  setUTCFullYear(year: i32): i64;
+  /** Sets the month, carrying over to the year if out of range. Returns the new time value. */
+  setUTCMonth(month: i32): i64;
+  /** Sets the day of the month, carrying over to the month if out of range. Returns the new time value. */
+  setUTCDate(day: i32): i64;
+  /** Sets the hour, carrying over to the day if out of range. Returns the new time value. */
+  setUTCHours(hour: i32): i64;
+  /** Sets the minute, carrying over to the hour if out of range. Returns the new time value. */
+  setUTCMinutes(minute: i32): i64;
+  /** Sets the second, carrying over to the minute if out of range. Returns the new time value. */
+  setUTCSeconds(second: i32): i64;
+  /** Sets the millisecond, carrying over to the second if out of range. Returns the new time value. */
+  setUTCMilliseconds(millisecond: i32): i64;
+  /** Formats this date as an ISO 8601 date-time, i.e. `YYYY-MM-DDTHH:mm:ss.sssZ`. */
+  toISOString(): string;
+  /** Formats this date as an RFC 7231 date, e.g. `Thu, 01 Jan 1970 00:00:00 GMT`. */
+  toUTCString(): string;
+  /** Same as {@link Date#toISOString}. */
+  toString(): string;
+}
+
+declare namespace performance {
+  /** Gets the current value of a monotonic clock in milliseconds, as reported by the host's `performance.now`. */
+  export function now(): f64;
+}
+
+/** Encodes strings as UTF-8. Lone surrogates are encoded as U+FFFD. */
+declare class TextEncoder {
+  /** Always `"utf-8"`. */
+  readonly encoding: string;
+  /** Encodes the specified string as UTF-8. */
+  encode(input?: string): Uint8Array;
+}
+
+/** Decodes strings from UTF-8, UTF-16LE or windows-1252 (`latin1`) encoded bytes. */
+declare class TextDecoder {
+  /** The canonical name of the encoding, e.g. `"utf-8"`. */
+  readonly encoding: string;
+  /** Whether malformed input throws a `TypeError` instead of being replaced by U+FFFD. */
+  readonly fatal: bool;
+  /** Whether a leading byte order mark is kept instead of being stripped. */
+  readonly ignoreBOM: bool;
+  /** Constructs a new decoder for the encoding of the specified label. Throws a `RangeError` if the encoding is not supported. */
+  constructor(label?: string, fatal?: bool, ignoreBOM?: bool);
+  /** Decodes the specified bytes to a string. */
+  decode(input: Uint8Array): string;
 }
 
 interface SymbolConstructor {
@@ -678,8 +1124,11 @@ declare function unmanaged(target: Function): any;
 /** Annotates a class as being sealed / non-derivable. */
 declare function sealed(target: Function): any;
 
+/** Annotates a class as being serializable to JSON, generating its `toJSON` and `fromJSON` members. */
+declare function serializable(target: Function): any;
+
 /** Annotates a method or function as always inlined. */
 declare function inline(target: any, propertyKey: any, descriptor: any): any;
 
-/** Annotates an explicit external name of a function or global. */
-declare function external(target: any, propertyKey: any, descriptor: any): any;
+/** Annotates an explicit external name of a function or global, optionally preceded by the name of its module. */
+declare function external(moduleOrElementName: string, elementName?: string): (target: any, propertyKey: any, descriptor: any) => void;
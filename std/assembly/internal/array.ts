@@ -1,4 +1,5 @@
 import {
+  HEADER_SIZE,
   loadUnsafeWithOffset,
   storeUnsafeWithOffset
 } from "./arraybuffer";
@@ -7,6 +8,14 @@ import {
   compareUnsafe,
 } from "./string";
 
+import {
+  itoa
+} from "./itoa";
+
+import {
+  dtoa
+} from "./dtoa";
+
 /** Obtains the default comparator for the specified type. */
 @inline
 export function defaultComparator<T>(): (a: T, b: T) => i32 {
@@ -126,3 +135,197 @@ export function weakHeapSort<T>(
   storeUnsafeWithOffset<T,T>(buffer, 1, loadUnsafeWithOffset<T,T>(buffer, 0, byteOffset), byteOffset);
   storeUnsafeWithOffset<T,T>(buffer, 0, t, byteOffset); // arr[0] = t
 }
+
+/** Sorts an Array with the stable 'TimSort' algorithm. */
+export function timSort<T>(
+  buffer: ArrayBuffer,
+  byteOffset: i32,
+  length: i32,
+  comparator: (a: T, b: T) => i32
+): void {
+  // see: https://github.com/python/cpython/blob/master/Objects/listsort.txt
+
+  const MIN_MERGE = 32;
+  const MAX_RUNS = 64; // pending runs grow at least like the fibonacci numbers
+
+  if (length < MIN_MERGE) {
+    binaryInsertionSort<T>(buffer, byteOffset, 0, length, countRunAndMakeAscending<T>(
+      buffer, byteOffset, 0, length, comparator
+    ), comparator);
+    return;
+  }
+
+  var minRun = length;
+  var r = 0;
+  while (minRun >= MIN_MERGE) {
+    r |= minRun & 1;
+    minRun >>= 1;
+  }
+  minRun += r;
+
+  // stack of pending runs, each a pair of (start, length)
+  var runs = memory.allocate(MAX_RUNS << 3);
+  var numRuns = 0;
+  // the left run of a merge is copied to a temporary buffer, which is at most the whole array
+  var temp = memory.allocate(<usize>length << alignof<T>());
+
+  for (let lo = 0; lo < length; ) {
+    let runLength = countRunAndMakeAscending<T>(buffer, byteOffset, lo, length, comparator);
+    if (runLength < minRun) { // extend short runs to minRun
+      let forced = min(minRun, length - lo);
+      binaryInsertionSort<T>(buffer, byteOffset, lo, lo + forced, lo + runLength, comparator);
+      runLength = forced;
+    }
+    store<i32>(runs + (<usize>numRuns << 3), lo);
+    store<i32>(runs + (<usize>numRuns << 3), runLength, 4);
+    ++numRuns;
+    lo += runLength;
+
+    // merge runs until the invariants on their lengths are restored
+    while (numRuns > 1) {
+      let n = numRuns - 2;
+      if (
+        n > 0 && runLengthAt(runs, n - 1) <= runLengthAt(runs, n) + runLengthAt(runs, n + 1) ||
+        n > 1 && runLengthAt(runs, n - 2) <= runLengthAt(runs, n - 1) + runLengthAt(runs, n)
+      ) {
+        if (runLengthAt(runs, n - 1) < runLengthAt(runs, n + 1)) --n;
+      } else if (runLengthAt(runs, n) > runLengthAt(runs, n + 1)) {
+        break;
+      }
+      mergeRunsAt<T>(buffer, byteOffset, runs, numRuns--, n, temp, comparator);
+    }
+  }
+
+  // merge all remaining runs
+  while (numRuns > 1) {
+    let n = numRuns - 2;
+    if (n > 0 && runLengthAt(runs, n - 1) < runLengthAt(runs, n + 1)) --n;
+    mergeRunsAt<T>(buffer, byteOffset, runs, numRuns--, n, temp, comparator);
+  }
+
+  memory.free(temp);
+  memory.free(runs);
+}
+
+@inline
+function runLengthAt(runs: usize, index: i32): i32 {
+  return load<i32>(runs + (<usize>index << 3), 4);
+}
+
+/** Returns the length of the run starting at lo, reversing it first if it is strictly descending. */
+function countRunAndMakeAscending<T>(
+  buffer: ArrayBuffer,
+  byteOffset: i32,
+  lo: i32,
+  hi: i32,
+  comparator: (a: T, b: T) => i32
+): i32 {
+  var end = lo + 1;
+  if (end == hi) return 1;
+  if (comparator(
+    loadUnsafeWithOffset<T,T>(buffer, end, byteOffset),
+    loadUnsafeWithOffset<T,T>(buffer, lo, byteOffset)
+  ) < 0) { // descending, must be strictly so to remain stable when reversed
+    ++end;
+    while (end < hi && comparator(
+      loadUnsafeWithOffset<T,T>(buffer, end, byteOffset),
+      loadUnsafeWithOffset<T,T>(buffer, end - 1, byteOffset)
+    ) < 0) ++end;
+    for (let front = lo, back = end - 1; front < back; ++front, --back) {
+      let temp = loadUnsafeWithOffset<T,T>(buffer, front, byteOffset);
+      storeUnsafeWithOffset<T,T>(buffer, front, loadUnsafeWithOffset<T,T>(buffer, back, byteOffset), byteOffset);
+      storeUnsafeWithOffset<T,T>(buffer, back, temp, byteOffset);
+    }
+  } else {
+    ++end;
+    while (end < hi && comparator(
+      loadUnsafeWithOffset<T,T>(buffer, end, byteOffset),
+      loadUnsafeWithOffset<T,T>(buffer, end - 1, byteOffset)
+    ) >= 0) ++end;
+  }
+  return end - lo;
+}
+
+/** Sorts the elements from lo to hi, of which those before start are already sorted. */
+function binaryInsertionSort<T>(
+  buffer: ArrayBuffer,
+  byteOffset: i32,
+  lo: i32,
+  hi: i32,
+  start: i32,
+  comparator: (a: T, b: T) => i32
+): void {
+  var dataStart = changetype<usize>(buffer) + HEADER_SIZE + <usize>byteOffset;
+  for (let i = start; i < hi; ++i) {
+    let pivot = loadUnsafeWithOffset<T,T>(buffer, i, byteOffset);
+    let left = lo;
+    let right = i;
+    while (left < right) { // inserts after equal elements
+      let mid = (left + right) >>> 1;
+      if (comparator(pivot, loadUnsafeWithOffset<T,T>(buffer, mid, byteOffset)) < 0) right = mid;
+      else left = mid + 1;
+    }
+    memory.copy(
+      dataStart + (<usize>(left + 1) << alignof<T>()),
+      dataStart + (<usize>left << alignof<T>()),
+      <usize>(i - left) << alignof<T>()
+    );
+    storeUnsafeWithOffset<T,T>(buffer, left, pivot, byteOffset);
+  }
+}
+
+/** Merges the pending runs at index and index + 1 into one. */
+function mergeRunsAt<T>(
+  buffer: ArrayBuffer,
+  byteOffset: i32,
+  runs: usize,
+  numRuns: i32,
+  index: i32,
+  temp: usize,
+  comparator: (a: T, b: T) => i32
+): void {
+  var start1 = load<i32>(runs + (<usize>index << 3));
+  var length1 = runLengthAt(runs, index);
+  var start2 = start1 + length1;
+  var end2 = start2 + runLengthAt(runs, index + 1);
+  store<i32>(runs + (<usize>index << 3), end2 - start1, 4);
+  if (index == numRuns - 3) { // move the last run into place
+    store<u64>(runs + (<usize>(index + 1) << 3), load<u64>(runs + (<usize>(index + 2) << 3)));
+  }
+
+  // copy the left run and merge it with the right run, preferring the left run on ties
+  var dataStart = changetype<usize>(buffer) + HEADER_SIZE + <usize>byteOffset;
+  memory.copy(temp, dataStart + (<usize>start1 << alignof<T>()), <usize>length1 << alignof<T>());
+  var i = 0;
+  var j = start2;
+  var k = start1;
+  while (i < length1 && j < end2) {
+    let a = load<T>(temp + (<usize>i << alignof<T>()));
+    let b = loadUnsafeWithOffset<T,T>(buffer, j, byteOffset);
+    if (comparator(b, a) < 0) {
+      storeUnsafeWithOffset<T,T>(buffer, k++, b, byteOffset);
+      ++j;
+    } else {
+      storeUnsafeWithOffset<T,T>(buffer, k++, a, byteOffset);
+      ++i;
+    }
+  }
+  memory.copy(
+    dataStart + (<usize>k << alignof<T>()),
+    temp + (<usize>i << alignof<T>()),
+    <usize>(length1 - i) << alignof<T>()
+  );
+}
+
+/** Converts an element to its string representation as used by `Array#join`. */
+export function joinElement<T>(value: T): string {
+  if (isString<T>()) {
+    return value !== null ? <string>value : "";
+  } else if (isFloat<T>()) {
+    return dtoa<T>(value);
+  } else if (isInteger<T>()) {
+    return itoa<T>(value);
+  } else {
+    return value !== null ? value.toString() : ""; // tslint:disable-line:no-unsafe-any
+  }
+}
@@ -0,0 +1,170 @@
+import {
+  HEADER_SIZE,
+  allocateUnsafe
+} from "./string";
+
+/** Code point substituted for malformed input if not decoding fatally. */
+export const REPLACEMENT_CHARACTER: u32 = 0xFFFD;
+
+/** Maps the bytes 0x80 to 0x9F of windows-1252 to code points. All other bytes map to themselves. */
+@inline
+export function WINDOWS_1252(): u16[] {
+  const table: u16[] = [
+    0x20AC, 0x0081, 0x201A, 0x0192, 0x201E, 0x2026, 0x2020, 0x2021,
+    0x02C6, 0x2030, 0x0160, 0x2039, 0x0152, 0x008D, 0x017D, 0x008F,
+    0x0090, 0x2018, 0x2019, 0x201C, 0x201D, 0x2022, 0x2013, 0x2014,
+    0x02DC, 0x2122, 0x0161, 0x203A, 0x0153, 0x009D, 0x017E, 0x0178
+  ];
+  return table; // inlines to a constant memory offset
+}
+
+function invalidData(): void {
+  throw new TypeError("The encoded data was not valid");
+}
+
+/**
+ * Decodes `len` bytes of UTF-8 at `ptr`. Each maximal subpart of an ill-formed sequence is
+ * replaced by a single U+FFFD, as specified by the WHATWG Encoding Standard, unless `fatal`.
+ */
+export function decodeUTF8Unsafe(ptr: usize, len: usize, fatal: bool): String {
+  if (!len) return changetype<String>("");
+  var buf = memory.allocate(len << 1); // never more code units than bytes
+  var end = ptr + len;
+  var pos: usize = 0;
+  while (ptr < end) {
+    let cp = <u32>load<u8>(ptr++);
+    if (cp >= 0x80) {
+      let count: u32 = 0;
+      let lower: u32 = 0x80; // bounds of the next continuation byte
+      let upper: u32 = 0xBF;
+      if (cp >= 0xC2 && cp <= 0xDF) {
+        count = 1; cp &= 0x1F;
+      } else if (cp >= 0xE0 && cp <= 0xEF) {
+        if (cp == 0xE0) lower = 0xA0;      // overlong
+        else if (cp == 0xED) upper = 0x9F; // surrogate
+        count = 2; cp &= 0x0F;
+      } else if (cp >= 0xF0 && cp <= 0xF4) {
+        if (cp == 0xF0) lower = 0x90;      // overlong
+        else if (cp == 0xF4) upper = 0x8F; // beyond U+10FFFF
+        count = 3; cp &= 0x07;
+      }
+      let valid = count != 0;
+      for (; count; --count) {
+        let c = ptr < end ? <u32>load<u8>(ptr) : 0;
+        if (c < lower || c > upper) { // leaves the offending byte to be decoded on its own
+          valid = false;
+          break;
+        }
+        cp = (cp << 6) | (c & 0x3F);
+        lower = 0x80;
+        upper = 0xBF;
+        ++ptr;
+      }
+      if (!valid) {
+        if (fatal) invalidData();
+        cp = REPLACEMENT_CHARACTER;
+      }
+    }
+    if (cp < 0x10000) {
+      store<u16>(buf + (pos << 1), cp);
+      ++pos;
+    } else {
+      cp -= 0x10000;
+      store<u32>(buf + (pos << 1), ((cp & 0x3FF) + 0xDC00) << 16 | (cp >>> 10) + 0xD800);
+      pos += 2;
+    }
+  }
+  var out = allocateUnsafe(<i32>pos);
+  memory.copy(changetype<usize>(out) + HEADER_SIZE, buf, pos << 1);
+  memory.free(buf);
+  return out;
+}
+
+/** Decodes `len` bytes of UTF-16LE at `ptr`, replacing lone surrogates and an odd last byte unless `fatal`. */
+export function decodeUTF16LEUnsafe(ptr: usize, len: usize, fatal: bool): String {
+  if (!len) return changetype<String>("");
+  var count = len >>> 1;
+  var out = allocateUnsafe(<i32>((len + 1) >>> 1));
+  var dest = changetype<usize>(out) + HEADER_SIZE;
+  var i: usize = 0;
+  while (i < count) {
+    let c = <u32>load<u16>(ptr + (i << 1));
+    if ((c & 0xF800) == 0xD800) {
+      if (
+        c <= 0xDBFF && i + 1 < count &&
+        (<u32>load<u16>(ptr + ((i + 1) << 1)) & 0xFC00) == 0xDC00
+      ) {
+        store<u32>(dest + (i << 1), load<u32>(ptr + (i << 1)));
+        i += 2;
+        continue;
+      }
+      if (fatal) invalidData();
+      c = REPLACEMENT_CHARACTER;
+    }
+    store<u16>(dest + (i << 1), c);
+    ++i;
+  }
+  if (len & 1) {
+    if (fatal) invalidData();
+    store<u16>(dest + (count << 1), REPLACEMENT_CHARACTER);
+  }
+  return out;
+}
+
+/** Decodes `len` bytes of windows-1252 at `ptr`, which is what `latin1` and `ascii` refer to on the web. */
+export function decodeWindows1252Unsafe(ptr: usize, len: usize): String {
+  if (!len) return changetype<String>("");
+  var out = allocateUnsafe(<i32>len);
+  var dest = changetype<usize>(out) + HEADER_SIZE;
+  var table = WINDOWS_1252();
+  for (let i: usize = 0; i < len; ++i) {
+    let c = <u32>load<u8>(ptr + i);
+    if ((c & 0xE0) == 0x80) c = unchecked(table[c & 0x1F]);
+    store<u16>(dest + (i << 1), c);
+  }
+  return out;
+}
+
+/**
+ * Encodes the specified string as UTF-8 to `buf`, which must be large enough to hold
+ * `str.lengthUTF8 - 1` bytes. Lone surrogates are replaced by U+FFFD. Returns the number of bytes written.
+ */
+export function encodeUTF8Unsafe(str: String, buf: usize): usize {
+  var pos: usize = 0;
+  var end = <usize>str.length;
+  var off: usize = 0;
+  while (pos < end) {
+    let c1 = <u32>load<u16>(changetype<usize>(str) + (pos << 1), HEADER_SIZE);
+    if (c1 < 128) {
+      store<u8>(buf + off, c1);
+      ++off; ++pos;
+    } else if (c1 < 2048) {
+      let ptr = buf + off;
+      store<u8>(ptr, c1 >> 6      | 192);
+      store<u8>(ptr, c1      & 63 | 128, 1);
+      off += 2; ++pos;
+    } else {
+      let ptr = buf + off;
+      if ((c1 & 0xF800) == 0xD800) {
+        if (c1 <= 0xDBFF && pos + 1 < end) {
+          let c2 = <u32>load<u16>(changetype<usize>(str) + ((pos + 1) << 1), HEADER_SIZE);
+          if ((c2 & 0xFC00) == 0xDC00) {
+            c1 = 0x10000 + ((c1 & 0x03FF) << 10) + (c2 & 0x03FF);
+            store<u8>(ptr, c1 >> 18      | 240);
+            store<u8>(ptr, c1 >> 12 & 63 | 128, 1);
+            store<u8>(ptr, c1 >> 6  & 63 | 128, 2);
+            store<u8>(ptr, c1       & 63 | 128, 3);
+            off += 4; pos += 2;
+            continue;
+          }
+        }
+        c1 = REPLACEMENT_CHARACTER; // same length as the surrogate itself
+      }
+      store<u8>(ptr, c1 >> 12      | 224);
+      store<u8>(ptr, c1 >> 6  & 63 | 128, 1);
+      store<u8>(ptr, c1       & 63 | 128, 2);
+      off += 3; ++pos;
+    }
+  }
+  return off;
+}
@@ -254,3 +254,59 @@ export function itoa64(value: i64): string {
 
   return changetype<string>(buffer);
 }
+
+export function itoa<T>(value: T): String {
+  if (!isInteger<T>()) {
+    assert(false); // unexpected non-integer generic type
+  } else {
+    if (isSigned<T>()) {
+      if (sizeof<T>() <= 4) {
+        return itoa32(<i32>value);
+      } else {
+        return itoa64(<i64>value);
+      }
+    } else {
+      if (sizeof<T>() <= 4) {
+        return utoa32(<u32>value);
+      } else {
+        return utoa64(<u64>value);
+      }
+    }
+  }
+}
+
+function utoa_radix(num: u64, radix: i32, isneg: bool): String {
+  var digits = <i32>isneg;
+  var t = num;
+  do {
+    t /= radix;
+    ++digits;
+  } while (t);
+  var buffer = allocateUnsafeString(digits);
+  var offset = <usize>digits;
+  do {
+    let r = <u32>(num % radix);
+    num /= radix;
+    offset -= 1;
+    store<u16>(
+      changetype<usize>(buffer) + (offset << 1),
+      r < 10 ? CharCode._0 + r : CharCode.a + r - 10,
+      STRING_HEADER_SIZE
+    );
+  } while (num);
+  if (isneg) store<u16>(changetype<usize>(buffer), CharCode.MINUS, STRING_HEADER_SIZE);
+
+  return buffer;
+}
+
+export function itoa_radix<T>(value: T, radix: i32): String {
+  if (radix < 2 || radix > 36) throw new RangeError("toString() radix must be between 2 and 36");
+  if (radix == 10) return itoa<T>(value);
+  if (isSigned<T>()) {
+    let value64 = <i64>value;
+    if (value64 < 0) return utoa_radix(<u64>-value64, radix, true);
+    return utoa_radix(<u64>value64, radix, false);
+  } else {
+    return utoa_radix(<u64>value, radix, false);
+  }
+}
@@ -0,0 +1,653 @@
+// The compiler parses regular expression literals with this very parser, so this file must be
+// portable and must not import other files of the standard library.
+
+/** Character codes used by the parser. */
+const enum CharCode {
+  BACKSPACE = 0x08,
+  TAB = 0x09,
+  LINEFEED = 0x0A,
+  VERTICALTAB = 0x0B,
+  FORMFEED = 0x0C,
+  CARRIAGERETURN = 0x0D,
+  EXCLAMATION = 0x21,
+  DOLLAR = 0x24,
+  OPENPAREN = 0x28,
+  CLOSEPAREN = 0x29,
+  ASTERISK = 0x2A,
+  PLUS = 0x2B,
+  COMMA = 0x2C,
+  MINUS = 0x2D,
+  DOT = 0x2E,
+  _0 = 0x30,
+  _1 = 0x31,
+  _9 = 0x39,
+  COLON = 0x3A,
+  LESSTHAN = 0x3C,
+  EQUALS = 0x3D,
+  QUESTION = 0x3F,
+  A = 0x41,
+  B = 0x42,
+  D = 0x44,
+  F = 0x46,
+  S = 0x53,
+  W = 0x57,
+  Z = 0x5a,
+  OPENBRACKET = 0x5B,
+  BACKSLASH = 0x5C,
+  CLOSEBRACKET = 0x5D,
+  CARET = 0x5E,
+  a = 0x61,
+  b = 0x62,
+  c = 0x63,
+  d = 0x64,
+  f = 0x66,
+  g = 0x67,
+  i = 0x69,
+  m = 0x6D,
+  n = 0x6E,
+  r = 0x72,
+  s = 0x73,
+  t = 0x74,
+  u = 0x75,
+  v = 0x76,
+  w = 0x77,
+  x = 0x78,
+  z = 0x7A,
+  OPENBRACE = 0x7B,
+  BAR = 0x7C,
+  CLOSEBRACE = 0x7D
+}
+
+/**
+ * Opcodes of a regular expression program. A program starts with the number of capturing groups,
+ * followed by the instructions, with jump targets being absolute indexes into the program.
+ */
+export const enum Opcode {
+  /** Accepts the current thread. */
+  MATCH = 0,
+  /** Matches a character. Followed by its code. */
+  CHAR = 1,
+  /** Matches any character except line terminators. */
+  ANY = 2,
+  /** Matches a character in a class. Followed by the number of ranges and the ranges. */
+  CLASS = 3,
+  /** Matches a character not in a class. Followed by the number of ranges and the ranges. */
+  NCLASS = 4,
+  /** Continues at both targets, preferring the first. Followed by the two targets. */
+  SPLIT = 5,
+  /** Continues at the target. Followed by the target. */
+  JMP = 6,
+  /** Records the current position in a capture slot. Followed by the slot. */
+  SAVE = 7,
+  /** Asserts the beginning of input or, if multiline, of a line. */
+  BOL = 8,
+  /** Asserts the end of input or, if multiline, of a line. */
+  EOL = 9,
+  /** Asserts a word boundary. */
+  WORD_BOUNDARY = 10,
+  /** Asserts the absence of a word boundary. */
+  NOT_WORD_BOUNDARY = 11
+}
+
+/** Regular expression flags. */
+export const enum Flags {
+  NONE = 0,
+  GLOBAL = 1 << 0,
+  IGNORECASE = 1 << 1,
+  MULTILINE = 1 << 2
+}
+
+/** Parses regular expression flags. Returns `-1` if a flag is invalid or duplicate. */
+export function parseFlags(flags: string): i32 {
+  var bits = Flags.NONE;
+  for (let i = 0, k = flags.length; i < k; ++i) {
+    let bit: i32;
+    switch (flags.charCodeAt(i)) {
+      case CharCode.g: { bit = Flags.GLOBAL; break; }
+      case CharCode.i: { bit = Flags.IGNORECASE; break; }
+      case CharCode.m: { bit = Flags.MULTILINE; break; }
+      default: return -1;
+    }
+    if (bits & bit) return -1;
+    bits |= bit;
+  }
+  return bits;
+}
+
+/** Ranges matched by `\d`. */
+const DIGIT_RANGES: i32[] = [
+  0x30, 0x39
+];
+
+/** Ranges matched by `\w`. */
+const WORD_RANGES: i32[] = [
+  0x30, 0x39,
+  0x41, 0x5A,
+  0x5F, 0x5F,
+  0x61, 0x7A
+];
+
+/** Ranges matched by `\s`. */
+const SPACE_RANGES: i32[] = [
+  0x0009, 0x000D,
+  0x0020, 0x0020,
+  0x00A0, 0x00A0,
+  0x1680, 0x1680,
+  0x2000, 0x200A,
+  0x2028, 0x2029,
+  0x202F, 0x202F,
+  0x205F, 0x205F,
+  0x3000, 0x3000,
+  0xFEFF, 0xFEFF
+];
+
+/** Parses a regular expression pattern to a program. */
+export class Parser {
+
+  /** Pattern being parsed. */
+  pattern: string;
+  /** Current position. */
+  pos: i32 = 0;
+  /** End position. */
+  end: i32;
+  /** Program being generated. */
+  code: i32[];
+  /** Number of capturing groups encountered so far. */
+  groups: i32 = 0;
+  /** Message of the first syntax error encountered, if any. */
+  message: string | null = null;
+  /** Minimum number of repetitions of the last quantifier in braces. */
+  private min: i32 = 0;
+  /** Maximum number of repetitions of the last quantifier in braces, `-1` if unbounded. */
+  private max: i32 = 0;
+
+  constructor(pattern: string) {
+    this.pattern = pattern;
+    this.end = pattern.length;
+    this.code = new Array<i32>();
+  }
+
+  /** Parses the pattern. Returns the program or `null` if there was a syntax error. */
+  parse(): i32[] | null {
+    var code = this.code;
+    code.push(0); // number of capturing groups, updated below
+    code.push(Opcode.SAVE);
+    code.push(0);
+    this.parseDisjunction();
+    if (this.message === null && this.pos < this.end) this.error("Unmatched ')'");
+    if (this.message !== null) return null;
+    code.push(Opcode.SAVE);
+    code.push(1);
+    code.push(Opcode.MATCH);
+    code[0] = this.groups;
+    return code;
+  }
+
+  private error(message: string): void {
+    if (this.message === null) this.message = message;
+  }
+
+  private skip(c: i32): bool {
+    if (this.pos < this.end && this.pattern.charCodeAt(this.pos) == c) {
+      ++this.pos;
+      return true;
+    }
+    return false;
+  }
+
+  private parseDisjunction(): void {
+    var code = this.code;
+    var start = code.length;
+    this.parseAlternative();
+    if (this.message !== null || !this.skip(CharCode.BAR)) return;
+
+    // lower `a|b` to `SPLIT L1, L2; L1: a; JMP L3; L2: b; L3:`
+    var alternative = this.extract(start);
+    code.push(Opcode.SPLIT);
+    code.push(start + 3);
+    code.push(0); // updated below
+    this.append(alternative, start);
+    code.push(Opcode.JMP);
+    var jump = code.length;
+    code.push(0); // updated below
+    code[start + 2] = code.length;
+    this.parseDisjunction();
+    code[jump] = code.length;
+  }
+
+  private parseAlternative(): void {
+    var pattern = this.pattern;
+    var end = this.end;
+    while (this.message === null && this.pos < end) {
+      let c = pattern.charCodeAt(this.pos);
+      if (c == CharCode.BAR || c == CharCode.CLOSEPAREN) break;
+      this.parseTerm();
+    }
+  }
+
+  private parseTerm(): void {
+    var pattern = this.pattern;
+    var code = this.code;
+    var pos = this.pos;
+    switch (pattern.charCodeAt(pos)) {
+      case CharCode.CARET: {
+        this.pos = pos + 1;
+        code.push(Opcode.BOL);
+        return;
+      }
+      case CharCode.DOLLAR: {
+        this.pos = pos + 1;
+        code.push(Opcode.EOL);
+        return;
+      }
+      case CharCode.BACKSLASH: {
+        if (pos + 1 < this.end) {
+          let c = pattern.charCodeAt(pos + 1);
+          if (c == CharCode.b || c == CharCode.B) {
+            this.pos = pos + 2;
+            code.push(c == CharCode.b ? Opcode.WORD_BOUNDARY : Opcode.NOT_WORD_BOUNDARY);
+            return;
+          }
+        }
+        break;
+      }
+      case CharCode.ASTERISK:
+      case CharCode.PLUS:
+      case CharCode.QUESTION: {
+        this.error("Nothing to repeat");
+        return;
+      }
+      case CharCode.OPENBRACE: {
+        if (this.parseBraces()) {
+          this.pos = pos;
+          this.error("Nothing to repeat");
+          return;
+        }
+        break;
+      }
+    }
+    var start = code.length;
+    this.parseAtom();
+    if (this.message === null) this.parseQuantifier(start);
+  }
+
+  private parseAtom(): void {
+    var pattern = this.pattern;
+    var code = this.code;
+    var c = pattern.charCodeAt(this.pos++);
+    switch (c) {
+      case CharCode.DOT: {
+        code.push(Opcode.ANY);
+        break;
+      }
+      case CharCode.OPENPAREN: {
+        let group = 0;
+        if (this.skip(CharCode.QUESTION)) {
+          if (this.skip(CharCode.EQUALS) || this.skip(CharCode.EXCLAMATION)) {
+            this.error("Lookahead assertions are not supported");
+            return;
+          }
+          if (this.skip(CharCode.LESSTHAN) && (this.skip(CharCode.EQUALS) || this.skip(CharCode.EXCLAMATION))) {
+            this.error("Lookbehind assertions are not supported");
+            return;
+          }
+          if (!this.skip(CharCode.COLON)) {
+            this.error("Invalid group");
+            return;
+          }
+        } else {
+          group = ++this.groups;
+          code.push(Opcode.SAVE);
+          code.push(group << 1);
+        }
+        this.parseDisjunction();
+        if (this.message !== null) return;
+        if (!this.skip(CharCode.CLOSEPAREN)) {
+          this.error("Unterminated group");
+          return;
+        }
+        if (group) {
+          code.push(Opcode.SAVE);
+          code.push((group << 1) + 1);
+        }
+        break;
+      }
+      case CharCode.OPENBRACKET: {
+        this.parseClass();
+        break;
+      }
+      case CharCode.BACKSLASH: {
+        if (this.pos >= this.end) {
+          this.error("\\ at end of pattern");
+          return;
+        }
+        c = pattern.charCodeAt(this.pos++);
+        let ranges = new Array<i32>();
+        if (this.parseClassEscape(c, ranges)) {
+          this.pushClass(ranges, false);
+        } else if (c >= CharCode._1 && c <= CharCode._9) {
+          this.error("Backreferences are not supported");
+        } else {
+          code.push(Opcode.CHAR);
+          code.push(this.parseCharacterEscape(c));
+        }
+        break;
+      }
+      default: {
+        code.push(Opcode.CHAR);
+        code.push(c);
+        break;
+      }
+    }
+  }
+
+  private parseClass(): void {
+    var pattern = this.pattern;
+    var end = this.end;
+    var negate = this.skip(CharCode.CARET);
+    var ranges = new Array<i32>();
+    while (true) {
+      if (this.pos >= end) {
+        this.error("Unterminated character class");
+        return;
+      }
+      if (this.skip(CharCode.CLOSEBRACKET)) break;
+      let lo = this.parseClassAtom(ranges);
+      if (this.message !== null) return;
+      if (
+        this.pos + 1 < end &&
+        pattern.charCodeAt(this.pos) == CharCode.MINUS &&
+        pattern.charCodeAt(this.pos + 1) != CharCode.CLOSEBRACKET
+      ) {
+        ++this.pos;
+        let hi = this.parseClassAtom(ranges);
+        if (this.message !== null) return;
+        if (lo < 0 || hi < 0) {
+          this.error("Invalid character class");
+          return;
+        }
+        if (lo > hi) {
+          this.error("Range out of order in character class");
+          return;
+        }
+        ranges.push(lo);
+        ranges.push(hi);
+      } else if (lo >= 0) {
+        ranges.push(lo);
+        ranges.push(lo);
+      }
+    }
+    this.pushClass(ranges, negate);
+  }
+
+  /** Parses a character of a class. Returns `-1` if it was a class escape added to `ranges`. */
+  private parseClassAtom(ranges: i32[]): i32 {
+    var pattern = this.pattern;
+    var c = pattern.charCodeAt(this.pos++);
+    if (c != CharCode.BACKSLASH) return c;
+    if (this.pos >= this.end) {
+      this.error("\\ at end of pattern");
+      return -1;
+    }
+    c = pattern.charCodeAt(this.pos++);
+    if (this.parseClassEscape(c, ranges)) return -1;
+    if (c == CharCode.b) return CharCode.BACKSPACE;
+    return this.parseCharacterEscape(c);
+  }
+
+  /** Adds the ranges of a class escape like `\d` to `ranges`, if applicable. */
+  private parseClassEscape(c: i32, ranges: i32[]): bool {
+    switch (c) {
+      case CharCode.d: { pushRanges(ranges, DIGIT_RANGES); return true; }
+      case CharCode.D: { pushComplement(ranges, DIGIT_RANGES); return true; }
+      case CharCode.w: { pushRanges(ranges, WORD_RANGES); return true; }
+      case CharCode.W: { pushComplement(ranges, WORD_RANGES); return true; }
+      case CharCode.s: { pushRanges(ranges, SPACE_RANGES); return true; }
+      case CharCode.S: { pushComplement(ranges, SPACE_RANGES); return true; }
+    }
+    return false;
+  }
+
+  /** Parses the remainder of a character escape following the specified character. */
+  private parseCharacterEscape(c: i32): i32 {
+    switch (c) {
+      case CharCode.n: return CharCode.LINEFEED;
+      case CharCode.r: return CharCode.CARRIAGERETURN;
+      case CharCode.t: return CharCode.TAB;
+      case CharCode.v: return CharCode.VERTICALTAB;
+      case CharCode.f: return CharCode.FORMFEED;
+      case CharCode._0: return 0;
+      case CharCode.c: {
+        if (this.pos < this.end) {
+          let letter = this.pattern.charCodeAt(this.pos);
+          if (
+            letter >= CharCode.a && letter <= CharCode.z ||
+            letter >= CharCode.A && letter <= CharCode.Z
+          ) {
+            ++this.pos;
+            return letter & 31;
+          }
+        }
+        --this.pos; // matches a backslash followed by 'c'
+        return CharCode.BACKSLASH;
+      }
+      case CharCode.x: {
+        let value = this.parseHex(2);
+        return value < 0 ? c : value;
+      }
+      case CharCode.u: {
+        let value = this.parseHex(4);
+        return value < 0 ? c : value;
+      }
+    }
+    return c;
+  }
+
+  /** Parses exactly the specified number of hex digits. Returns `-1` if there are fewer. */
+  private parseHex(count: i32): i32 {
+    var pattern = this.pattern;
+    var pos = this.pos;
+    if (pos + count > this.end) return -1;
+    var value = 0;
+    for (let i = 0; i < count; ++i) {
+      let c = pattern.charCodeAt(pos + i);
+      if (c >= CharCode._0 && c <= CharCode._9) {
+        c -= CharCode._0;
+      } else if (c >= CharCode.A && c <= CharCode.F) {
+        c -= CharCode.A - 10;
+      } else if (c >= CharCode.a && c <= CharCode.f) {
+        c -= CharCode.a - 10;
+      } else {
+        return -1;
+      }
+      value = (value << 4) | c;
+    }
+    this.pos = pos + count;
+    return value;
+  }
+
+  private parseQuantifier(start: i32): void {
+    if (this.pos >= this.end) return;
+    var min: i32;
+    var max: i32; // -1 if unbounded
+    switch (this.pattern.charCodeAt(this.pos)) {
+      case CharCode.ASTERISK: { min = 0; max = -1; ++this.pos; break; }
+      case CharCode.PLUS: { min = 1; max = -1; ++this.pos; break; }
+      case CharCode.QUESTION: { min = 0; max = 1; ++this.pos; break; }
+      case CharCode.OPENBRACE: {
+        let pos = this.pos;
+        if (!this.parseBraces()) return;
+        min = this.min;
+        max = this.max;
+        if (max >= 0 && min > max) {
+          this.pos = pos;
+          this.error("Numbers out of order in {} quantifier");
+          return;
+        }
+        break;
+      }
+      default: return;
+    }
+    var lazy = this.skip(CharCode.QUESTION);
+    var code = this.code;
+    var atom = this.extract(start);
+
+    // emit the mandatory repetitions
+    for (let i = 1; i < min; ++i) this.append(atom, start);
+    if (max < 0) {
+      if (min > 0) {
+
+        // lower `a+` to `L1: a; SPLIT L1, L2; L2:`
+        let loop = code.length;
+        this.append(atom, start);
+        code.push(Opcode.SPLIT);
+        let next = code.length + 2;
+        code.push(lazy ? next : loop);
+        code.push(lazy ? loop : next);
+      } else {
+
+        // lower `a*` to `L1: SPLIT L2, L3; L2: a; JMP L1; L3:`
+        let loop = code.length;
+        code.push(Opcode.SPLIT);
+        code.push(loop + 3);
+        code.push(0); // updated below
+        this.append(atom, start);
+        code.push(Opcode.JMP);
+        code.push(loop);
+        if (lazy) {
+          code[loop + 1] = code.length;
+          code[loop + 2] = loop + 3;
+        } else {
+          code[loop + 2] = code.length;
+        }
+      }
+    } else {
+      if (min > 0) this.append(atom, start);
+
+      // lower each optional `a?` to `SPLIT L1, L2; L1: a; L2:`
+      for (let i = min; i < max; ++i) {
+        let split = code.length;
+        code.push(Opcode.SPLIT);
+        code.push(split + 3);
+        code.push(0); // updated below
+        this.append(atom, start);
+        if (lazy) {
+          code[split + 1] = code.length;
+          code[split + 2] = split + 3;
+        } else {
+          code[split + 2] = code.length;
+        }
+      }
+    }
+  }
+
+  /** Parses a `{n}`, `{n,}` or `{n,m}` quantifier. Leaves the position unchanged if there is none. */
+  private parseBraces(): bool {
+    var pos = this.pos;
+    if (!this.skip(CharCode.OPENBRACE)) return false;
+    var min = this.parseDecimal();
+    if (min < 0) {
+      this.pos = pos;
+      return false;
+    }
+    var max = min;
+    if (this.skip(CharCode.COMMA)) max = this.parseDecimal();
+    if (!this.skip(CharCode.CLOSEBRACE)) {
+      this.pos = pos;
+      return false;
+    }
+    this.min = min;
+    this.max = max;
+    return true;
+  }
+
+  /** Parses a decimal number. Returns `-1` if there is none. */
+  private parseDecimal(): i32 {
+    var pattern = this.pattern;
+    var end = this.end;
+    var value = -1;
+    while (this.pos < end) {
+      let c = pattern.charCodeAt(this.pos);
+      if (c < CharCode._0 || c > CharCode._9) break;
+      value = (value < 0 ? 0 : value) * 10 + c - CharCode._0;
+      if (value > 0xFFFF) value = 0xFFFF; // more than any program can hold anyway
+      ++this.pos;
+    }
+    return value;
+  }
+
+  private pushClass(ranges: i32[], negate: bool): void {
+    var code = this.code;
+    code.push(negate ? Opcode.NCLASS : Opcode.CLASS);
+    code.push(ranges.length >> 1);
+    for (let i = 0, k = ranges.length; i < k; ++i) code.push(ranges[i]);
+  }
+
+  /** Removes and returns the instructions starting at `start`. */
+  private extract(start: i32): i32[] {
+    var code = this.code;
+    var atom = code.slice(start);
+    code.length = start;
+    return atom;
+  }
+
+  /** Appends a copy of instructions previously extracted at `base`, relocating jump targets. */
+  private append(atom: i32[], base: i32): void {
+    var code = this.code;
+    var delta = code.length - base;
+    for (let i = 0, k = atom.length; i < k;) {
+      let op = atom[i];
+      code.push(op);
+      switch (op) {
+        case Opcode.CHAR:
+        case Opcode.SAVE: {
+          code.push(atom[i + 1]);
+          i += 2;
+          break;
+        }
+        case Opcode.JMP: {
+          code.push(atom[i + 1] + delta);
+          i += 2;
+          break;
+        }
+        case Opcode.SPLIT: {
+          code.push(atom[i + 1] + delta);
+          code.push(atom[i + 2] + delta);
+          i += 3;
+          break;
+        }
+        case Opcode.CLASS:
+        case Opcode.NCLASS: {
+          let size = 2 + (atom[i + 1] << 1);
+          for (let j = 1; j < size; ++j) code.push(atom[i + j]);
+          i += size;
+          break;
+        }
+        default: {
+          ++i;
+          break;
+        }
+      }
+    }
+  }
+}
+
+function pushRanges(ranges: i32[], source: i32[]): void {
+  for (let i = 0, k = source.length; i < k; ++i) ranges.push(source[i]);
+}
+
+function pushComplement(ranges: i32[], source: i32[]): void {
+  var next = 0;
+  for (let i = 0, k = source.length; i < k; i += 2) {
+    let lo = source[i];
+    if (lo > next) {
+      ranges.push(next);
+      ranges.push(lo - 1);
+    }
+    next = source[i + 1] + 1;
+  }
+  if (next <= 0xFFFF) {
+    ranges.push(next);
+    ranges.push(0xFFFF);
+  }
+}
@@ -0,0 +1,225 @@
+import { CharCode } from "./string";
+import {
+  Opcode,
+  Flags
+} from "./regexp-parser";
+
+/** A list of threads, each consisting of a program counter and its capture slots. */
+class ThreadList {
+
+  pcs: i32[];
+  slots: i32[];
+  count: i32 = 0;
+
+  constructor(capacity: i32, numSlots: i32) {
+    this.pcs = new Array<i32>(capacity);
+    this.slots = new Array<i32>(capacity * numSlots);
+  }
+}
+
+/** Executes a program in lockstep over the input, in linear time, like a Pike VM. */
+export class Matcher {
+
+  /** Program being executed. */
+  program: i32[];
+  /** Flags affecting execution. */
+  flags: i32;
+  /** Input being matched against. */
+  input: string;
+  /** Number of capture slots per thread. */
+  numSlots: i32;
+  /** Input position plus one at which each instruction has last been added to a list. */
+  marks: i32[];
+  /** Capture slots of the thread currently being added. */
+  slots: i32[];
+
+  constructor(program: i32[], flags: i32, input: string) {
+    this.program = program;
+    this.flags = flags;
+    this.input = input;
+    var numSlots = (program[0] + 1) << 1;
+    this.numSlots = numSlots;
+    this.marks = new Array<i32>(program.length);
+    this.slots = new Array<i32>(numSlots);
+  }
+
+  /** Finds the first match at or after `start`. Returns its capture slots or `null` if none. */
+  exec(start: i32): i32[] | null {
+    var program = this.program;
+    var input = this.input;
+    var length = input.length;
+    var numSlots = this.numSlots;
+    var slots = this.slots;
+    var current = new ThreadList(program.length, numSlots);
+    var next = new ThreadList(program.length, numSlots);
+    var matched: i32[] | null = null;
+    for (let pos = start; ; ++pos) {
+
+      // start a new thread at each position, with the lowest priority, until there is a match
+      if (!matched) {
+        for (let i = 0; i < numSlots; ++i) slots[i] = -1;
+        this.addThread(current, 1, pos);
+      } else if (!current.count) {
+        break;
+      }
+      let c = pos < length ? input.charCodeAt(pos) : -1;
+      for (let i = 0, k = current.count; i < k; ++i) {
+        let pc = current.pcs[i];
+        let target = -1;
+        switch (program[pc]) {
+          case Opcode.MATCH: {
+            matched = current.slots.slice(i * numSlots, (i + 1) * numSlots);
+            k = i; // cut off threads of lower priority
+            break;
+          }
+          case Opcode.CHAR: {
+            if (c >= 0 && this.matchesChar(c, program[pc + 1])) target = pc + 2;
+            break;
+          }
+          case Opcode.ANY: {
+            if (c >= 0 && !isLineTerminator(c)) target = pc + 1;
+            break;
+          }
+          case Opcode.CLASS: {
+            if (c >= 0 && this.matchesClass(c, pc)) target = pc + 2 + (program[pc + 1] << 1);
+            break;
+          }
+          case Opcode.NCLASS: {
+            if (c >= 0 && !this.matchesClass(c, pc)) target = pc + 2 + (program[pc + 1] << 1);
+            break;
+          }
+          default: unreachable();
+        }
+        if (target >= 0) {
+          let threadSlots = current.slots;
+          let offset = i * numSlots;
+          for (let j = 0; j < numSlots; ++j) slots[j] = threadSlots[offset + j];
+          this.addThread(next, target, pos + 1);
+        }
+      }
+      if (pos >= length) break;
+      let temp = current;
+      current = next;
+      next = temp;
+      next.count = 0;
+    }
+    return matched;
+  }
+
+  /** Adds a thread at `pc`, following jumps, saves and assertions that hold at `pos`. */
+  private addThread(list: ThreadList, pc: i32, pos: i32): void {
+    var marks = this.marks;
+    if (marks[pc] == pos + 1) return;
+    marks[pc] = pos + 1;
+    var program = this.program;
+    switch (program[pc]) {
+      case Opcode.JMP: {
+        this.addThread(list, program[pc + 1], pos);
+        return;
+      }
+      case Opcode.SPLIT: {
+        this.addThread(list, program[pc + 1], pos);
+        this.addThread(list, program[pc + 2], pos);
+        return;
+      }
+      case Opcode.SAVE: {
+        let slots = this.slots;
+        let slot = program[pc + 1];
+        let saved = slots[slot];
+        slots[slot] = pos;
+        this.addThread(list, pc + 2, pos);
+        slots[slot] = saved;
+        return;
+      }
+      case Opcode.BOL: {
+        if (
+          pos == 0 ||
+          (this.flags & Flags.MULTILINE) != 0 && isLineTerminator(this.input.charCodeAt(pos - 1))
+        ) {
+          this.addThread(list, pc + 1, pos);
+        }
+        return;
+      }
+      case Opcode.EOL: {
+        if (
+          pos == this.input.length ||
+          (this.flags & Flags.MULTILINE) != 0 && isLineTerminator(this.input.charCodeAt(pos))
+        ) {
+          this.addThread(list, pc + 1, pos);
+        }
+        return;
+      }
+      case Opcode.WORD_BOUNDARY: {
+        if (this.isWordBoundary(pos)) this.addThread(list, pc + 1, pos);
+        return;
+      }
+      case Opcode.NOT_WORD_BOUNDARY: {
+        if (!this.isWordBoundary(pos)) this.addThread(list, pc + 1, pos);
+        return;
+      }
+    }
+    var numSlots = this.numSlots;
+    var slots = this.slots;
+    var listSlots = list.slots;
+    var index = list.count++;
+    var offset = index * numSlots;
+    list.pcs[index] = pc;
+    for (let i = 0; i < numSlots; ++i) listSlots[offset + i] = slots[i];
+  }
+
+  private matchesChar(c: i32, expected: i32): bool {
+    if (c == expected) return true;
+    return (this.flags & Flags.IGNORECASE) != 0 && toLowerCase(c) == toLowerCase(expected);
+  }
+
+  private matchesClass(c: i32, pc: i32): bool {
+    if (this.inRanges(c, pc)) return true;
+    if (this.flags & Flags.IGNORECASE) {
+      let lower = toLowerCase(c);
+      if (lower != c) return this.inRanges(lower, pc);
+      let upper = toUpperCase(c);
+      if (upper != c) return this.inRanges(upper, pc);
+    }
+    return false;
+  }
+
+  private inRanges(c: i32, pc: i32): bool {
+    var program = this.program;
+    var end = pc + 2 + (program[pc + 1] << 1);
+    for (let i = pc + 2; i < end; i += 2) {
+      if (c >= program[i] && c <= program[i + 1]) return true;
+    }
+    return false;
+  }
+
+  private isWordBoundary(pos: i32): bool {
+    var input = this.input;
+    var before = pos > 0 && isWordCharacter(input.charCodeAt(pos - 1));
+    var after = pos < input.length && isWordCharacter(input.charCodeAt(pos));
+    return before != after;
+  }
+}
+
+function isLineTerminator(c: i32): bool {
+  return c == CharCode.LINEFEED || c == CharCode.CARRIAGERETURN ||
+         c == CharCode.LINESEPARATOR || c == CharCode.PARAGRAPHSEPARATOR;
+}
+
+function isWordCharacter(c: i32): bool {
+  return c >= CharCode._0 && c <= CharCode._9 ||
+         c >= CharCode.A && c <= CharCode.Z ||
+         c >= CharCode.a && c <= CharCode.z ||
+         c == CharCode._;
+}
+
+/** Converts ASCII and Latin-1 upper case letters to lower case. */
+function toLowerCase(c: i32): i32 {
+  if (c >= CharCode.A && c <= CharCode.Z || c >= 0xC0 && c <= 0xDE && c != 0xD7) return c + 32;
+  return c;
+}
+
+/** Converts ASCII and Latin-1 lower case letters to upper case. */
+function toUpperCase(c: i32): i32 {
+  if (c >= CharCode.a && c <= CharCode.z || c >= 0xE0 && c <= 0xFE && c != 0xF7) return c - 32;
+  return c;
+}
@@ -1,5 +1,19 @@
 import { MAX_SIZE_32 } from "./allocator";
 import { String } from "../string";
+import {
+  LOWER_CASE_RUNS,
+  LOWER_CASE_SPECIALS,
+  UPPER_CASE_RUNS,
+  UPPER_CASE_SPECIALS,
+  CASED_RANGES,
+  CASE_IGNORABLE_RANGES,
+  COMBINING_CLASS_RUNS,
+  CANONICAL_DECOMPOSITIONS,
+  CANONICAL_DATA,
+  COMPATIBILITY_DECOMPOSITIONS,
+  COMPATIBILITY_DATA,
+  COMPOSITIONS
+} from "./unicode";
 
 /** Size of a String header. */
 export const HEADER_SIZE = (offsetof<String>() + 1) & ~1; // 2 byte aligned
@@ -35,7 +49,7 @@ export function compareUnsafe(str1: String, offset1: usize, str2: String, offset
   var ptr1 = changetype<usize>(str1) + (offset1 << 1);
   var ptr2 = changetype<usize>(str2) + (offset2 << 1);
   while (len && !(cmp = <i32>load<u16>(ptr1, HEADER_SIZE) - <i32>load<u16>(ptr2, HEADER_SIZE))) {
-    --len, ++ptr1, ++ptr2;
+    --len, ptr1 += 2, ptr2 += 2;
   }
   return cmp;
 }
@@ -102,9 +116,25 @@ export function repeatUnsafe(dest: String, destOffset: usize, src: String, count
 // Helpers
 
 export const enum CharCode {
+  BACKSPACE = 0x08,
+  TAB = 0x09,
+  LINEFEED = 0x0A,
+  VERTICALTAB = 0x0B,
+  FORMFEED = 0x0C,
+  CARRIAGERETURN = 0x0D,
+  SPACE = 0x20,
+  DOUBLEQUOTE = 0x22,
+  DOLLAR = 0x24,
+  AMPERSAND = 0x26,
+  SINGLEQUOTE = 0x27,
+  OPENPAREN = 0x28,
+  CLOSEPAREN = 0x29,
+  ASTERISK = 0x2A,
   PLUS = 0x2B,
+  COMMA = 0x2C,
   MINUS = 0x2D,
   DOT = 0x2E,
+  SLASH = 0x2F,
   _0 = 0x30,
   _1 = 0x31,
   _2 = 0x32,
@@ -115,18 +145,50 @@ export const enum CharCode {
   _7 = 0x37,
   _8 = 0x38,
   _9 = 0x39,
+  COLON = 0x3A,
+  QUESTION = 0x3F,
   A = 0x41,
   B = 0x42,
+  D = 0x44,
   E = 0x45,
+  F = 0x46,
   O = 0x4F,
+  S = 0x53,
+  W = 0x57,
   X = 0x58,
+  T = 0x54,
   Z = 0x5a,
+  OPENBRACKET = 0x5B,
+  BACKSLASH = 0x5C,
+  CLOSEBRACKET = 0x5D,
+  CARET = 0x5E,
+  _ = 0x5F,
+  BACKTICK = 0x60,
   a = 0x61,
   b = 0x62,
+  c = 0x63,
+  d = 0x64,
   e = 0x65,
+  f = 0x66,
+  g = 0x67,
+  i = 0x69,
+  l = 0x6C,
+  m = 0x6D,
+  n = 0x6E,
   o = 0x6F,
+  r = 0x72,
+  s = 0x73,
+  t = 0x74,
+  u = 0x75,
+  v = 0x76,
+  w = 0x77,
   x = 0x78,
-  z = 0x7A
+  z = 0x7A,
+  OPENBRACE = 0x7B,
+  BAR = 0x7C,
+  CLOSEBRACE = 0x7D,
+  LINESEPARATOR = 0x2028,
+  PARAGRAPHSEPARATOR = 0x2029
 }
 
 export function isWhiteSpaceOrLineTerminator(c: u16): bool {
@@ -213,3 +275,373 @@ export function parse<T>(str: String, radix: i32 = 0): T {
   }
   return sign * num;
 }
+
+/** Gets the replacement of a match, expanding `$$`, `$&`, `` $` `` and `$'` patterns. */
+export function getSubstitution(str: String, position: i32, matchLength: i32, replacement: String): String {
+  var dollar = replacement.indexOf("$");
+  if (dollar == -1) return replacement;
+  var length = replacement.length;
+  var result = replacement.substring(0, dollar);
+  var start = dollar;
+  for (let i = dollar; i < length - 1; ++i) {
+    if (load<u16>(changetype<usize>(replacement) + (<usize>i << 1), HEADER_SIZE) != CharCode.DOLLAR) continue;
+    let part: String;
+    switch (<i32>load<u16>(changetype<usize>(replacement) + (<usize>i << 1), HEADER_SIZE + 2)) {
+      case CharCode.DOLLAR: { part = changetype<String>("$"); break; }
+      case CharCode.AMPERSAND: { part = str.substr(position, matchLength); break; }
+      case CharCode.BACKTICK: { part = str.substring(0, position); break; }
+      case CharCode.SINGLEQUOTE: { part = str.substring(position + matchLength); break; }
+      default: continue;
+    }
+    result = result.concat(replacement.substring(start, i)).concat(part);
+    start = ++i + 1;
+  }
+  return result.concat(replacement.substring(start));
+}
+
+// Unicode
+
+/** Reads the code point starting at the specified index. */
+@inline
+function loadCodePoint(str: String, index: i32, length: i32): i32 {
+  var c = <i32>load<u16>(changetype<usize>(str) + (<usize>index << 1), HEADER_SIZE);
+  if ((c & 0xFC00) == 0xD800 && index + 1 < length) {
+    let c2 = <i32>load<u16>(changetype<usize>(str) + (<usize>index << 1), HEADER_SIZE + 2);
+    if ((c2 & 0xFC00) == 0xDC00) return 0x10000 + ((c & 0x3FF) << 10) + (c2 & 0x3FF);
+  }
+  return c;
+}
+
+/** Reads the code point ending before the specified index. */
+@inline
+function loadCodePointBefore(str: String, index: i32): i32 {
+  var c = <i32>load<u16>(changetype<usize>(str) + (<usize>(index - 1) << 1), HEADER_SIZE);
+  if ((c & 0xFC00) == 0xDC00 && index > 1) {
+    let c1 = <i32>load<u16>(changetype<usize>(str) + (<usize>(index - 2) << 1), HEADER_SIZE);
+    if ((c1 & 0xFC00) == 0xD800) return 0x10000 + ((c1 & 0x3FF) << 10) + (c & 0x3FF);
+  }
+  return c;
+}
+
+/** Finds the row of a sorted table of `start[, end], ...` rows containing the code point. */
+function findRow(table: i32[], rowSize: i32, hasEnd: bool, cp: i32): i32 {
+  var lo = 0;
+  var hi = table.length / rowSize - 1;
+  while (lo <= hi) {
+    let mid = (lo + hi) >>> 1;
+    let row = mid * rowSize;
+    if (cp < table[row]) hi = mid - 1;
+    else if (cp > table[row + <i32>hasEnd]) lo = mid + 1;
+    else return row;
+  }
+  return -1;
+}
+
+function isCased(cp: i32): bool {
+  return findRow(CASED_RANGES(), 2, true, cp) >= 0;
+}
+
+function isCaseIgnorable(cp: i32): bool {
+  return findRow(CASE_IGNORABLE_RANGES(), 2, true, cp) >= 0;
+}
+
+/** Tests if the capital sigma at the specified index ends a word, per the Final_Sigma condition. */
+function isFinalSigma(str: String, index: i32, length: i32): bool {
+  var preceded = false;
+  for (let i = index; i > 0;) {
+    let cp = loadCodePointBefore(str, i);
+    i -= 1 + <i32>(cp >= 0x10000);
+    if (isCased(cp)) {
+      preceded = true;
+      break;
+    }
+    if (!isCaseIgnorable(cp)) break;
+  }
+  if (!preceded) return false;
+  for (let i = index + 1; i < length;) {
+    let cp = loadCodePoint(str, i, length);
+    i += 1 + <i32>(cp >= 0x10000);
+    if (isCased(cp)) return false;
+    if (!isCaseIgnorable(cp)) break;
+  }
+  return true;
+}
+
+/** Converts a string to lower or upper case using the full Unicode case mappings. */
+export function toCaseUnsafe(str: String, upper: bool): String {
+  var length = str.length;
+  if (!length) return str;
+  var runs = upper ? UPPER_CASE_RUNS() : LOWER_CASE_RUNS();
+  var specials = upper ? UPPER_CASE_SPECIALS() : LOWER_CASE_SPECIALS();
+  var changed = false;
+  var buffer: usize = 0;
+
+  // first pass measures the result, second pass writes it
+  for (let pass = 0; pass < 2; ++pass) {
+    let pos: usize = 0;
+    for (let i = 0; i < length;) {
+      let cp = loadCodePoint(str, i, length);
+      let mapped = cp;
+      if (cp < 0x80) {
+        if (upper ? cp >= CharCode.a && cp <= CharCode.z : cp >= CharCode.A && cp <= CharCode.Z) mapped ^= 0x20;
+      } else {
+        let row = findRow(specials, 4, false, cp);
+        if (row >= 0) {
+          for (let j = 1; j < 4; ++j) {
+            let unit = specials[row + j];
+            if (!unit) break;
+            if (buffer) store<u16>(buffer + (pos << 1), unit, HEADER_SIZE);
+            ++pos;
+          }
+          i += 1 + <i32>(cp >= 0x10000);
+          changed = true;
+          continue;
+        }
+        if (!upper && cp == 0x03A3 && isFinalSigma(str, i, length)) {
+          mapped = 0x03C2;
+        } else {
+          row = findRow(runs, 4, true, cp);
+          if (row >= 0 && !((cp - runs[row]) % runs[row + 2])) mapped += runs[row + 3];
+        }
+      }
+      if (mapped < 0x10000) {
+        if (buffer) store<u16>(buffer + (pos << 1), mapped, HEADER_SIZE);
+        ++pos;
+      } else {
+        if (buffer) {
+          mapped -= 0x10000;
+          store<u16>(buffer + (pos << 1), (mapped >>> 10) + 0xD800, HEADER_SIZE);
+          store<u16>(buffer + (pos << 1), (mapped & 0x3FF) + 0xDC00, HEADER_SIZE + 2);
+        }
+        pos += 2;
+      }
+      if (mapped != cp) changed = true;
+      i += 1 + <i32>(cp >= 0x10000);
+    }
+    if (!buffer) {
+      if (!changed) return str;
+      buffer = changetype<usize>(allocateUnsafe(<i32>pos));
+    }
+  }
+  return changetype<String>(buffer);
+}
+
+// Hangul syllables are composed and decomposed algorithmically
+const HANGUL_SBASE = 0xAC00;
+const HANGUL_LBASE = 0x1100;
+const HANGUL_VBASE = 0x1161;
+const HANGUL_TBASE = 0x11A7;
+const HANGUL_LCOUNT = 19;
+const HANGUL_VCOUNT = 21;
+const HANGUL_TCOUNT = 28;
+const HANGUL_NCOUNT = HANGUL_VCOUNT * HANGUL_TCOUNT;
+const HANGUL_SCOUNT = HANGUL_LCOUNT * HANGUL_NCOUNT;
+
+/** Gets the rank of a code point's canonical combining class, which is `0` for starters. */
+function getCombiningRank(cp: i32): i32 {
+  if (cp < 0x300) return 0;
+  var table = COMBINING_CLASS_RUNS();
+  var row = findRow(table, 3, true, cp);
+  return row >= 0 ? table[row + 2] : 0;
+}
+
+/** Appends the full decomposition of a code point, if any, to `out`. */
+function decompose(cp: i32, compatibility: bool, out: i32[]): void {
+  var index = cp - HANGUL_SBASE;
+  if (<u32>index < <u32>HANGUL_SCOUNT) {
+    out.push(HANGUL_LBASE + index / HANGUL_NCOUNT);
+    out.push(HANGUL_VBASE + (index % HANGUL_NCOUNT) / HANGUL_TCOUNT);
+    let t = index % HANGUL_TCOUNT;
+    if (t) out.push(HANGUL_TBASE + t);
+    return;
+  }
+  if (cp >= 0xA0) {
+    let table = CANONICAL_DECOMPOSITIONS();
+    let data = CANONICAL_DATA();
+    let row = -1;
+    if (compatibility) {
+      row = findRow(COMPATIBILITY_DECOMPOSITIONS(), 2, false, cp);
+      if (row >= 0) {
+        table = COMPATIBILITY_DECOMPOSITIONS();
+        data = COMPATIBILITY_DATA();
+      }
+    }
+    if (row < 0) row = findRow(table, 2, false, cp);
+    if (row >= 0) {
+      let offset = table[row + 1] >>> 5;
+      let end = offset + (table[row + 1] & 31);
+      while (offset < end) {
+        let c = <i32>data[offset++];
+        if ((c & 0xFC00) == 0xD800) c = 0x10000 + ((c & 0x3FF) << 10) + (<i32>data[offset++] & 0x3FF);
+        out.push(c);
+      }
+      return;
+    }
+  }
+  out.push(cp);
+}
+
+/** Gets the primary composite of two code points, or `-1` if there is none. */
+function composePair(first: i32, second: i32): i32 {
+  var lindex = first - HANGUL_LBASE;
+  if (<u32>lindex < <u32>HANGUL_LCOUNT) {
+    let vindex = second - HANGUL_VBASE;
+    if (<u32>vindex < <u32>HANGUL_VCOUNT) {
+      return HANGUL_SBASE + (lindex * HANGUL_VCOUNT + vindex) * HANGUL_TCOUNT;
+    }
+    return -1;
+  }
+  var sindex = first - HANGUL_SBASE;
+  if (<u32>sindex < <u32>HANGUL_SCOUNT && !(sindex % HANGUL_TCOUNT)) {
+    let tindex = second - HANGUL_TBASE;
+    if (tindex > 0 && tindex < HANGUL_TCOUNT) return first + tindex;
+    return -1;
+  }
+  var table = COMPOSITIONS();
+  var lo = 0;
+  var hi = table.length / 3 - 1;
+  while (lo <= hi) {
+    let mid = (lo + hi) >>> 1;
+    let row = mid * 3;
+    let cmp = first - table[row];
+    if (!cmp) cmp = second - table[row + 1];
+    if (cmp < 0) hi = mid - 1;
+    else if (cmp > 0) lo = mid + 1;
+    else return table[row + 2];
+  }
+  return -1;
+}
+
+/** Normalizes a string to one of the four Unicode normalization forms. */
+export function normalizeUnsafe(str: String, compose: bool, compatibility: bool): String {
+  var length = str.length;
+
+  // code units below these are unaffected
+  var limit = compatibility ? 0xA0 : compose ? 0x300 : 0xC0;
+  var i = 0;
+  while (i < length && <i32>load<u16>(changetype<usize>(str) + (<usize>i << 1), HEADER_SIZE) < limit) ++i;
+  if (i == length) return str;
+
+  // decompose, then order non-starters by combining class
+  var cps = new Array<i32>();
+  for (let j = 0; j < i; ++j) cps.push(<i32>load<u16>(changetype<usize>(str) + (<usize>j << 1), HEADER_SIZE));
+  while (i < length) {
+    let cp = loadCodePoint(str, i, length);
+    i += 1 + <i32>(cp >= 0x10000);
+    decompose(cp, compatibility, cps);
+  }
+  var count = cps.length;
+  var ranks = new Array<i32>(count);
+  for (let j = 0; j < count; ++j) {
+    let rank = getCombiningRank(cps[j]);
+    ranks[j] = rank;
+    if (!rank) continue;
+    for (let k = j; k > 0; --k) {
+      let before = ranks[k - 1];
+      if (before <= rank) break;
+      ranks[k - 1] = rank;
+      ranks[k] = before;
+      let cp = cps[k - 1];
+      cps[k - 1] = cps[k];
+      cps[k] = cp;
+    }
+  }
+
+  // compose starters with following characters that are not blocked
+  if (compose && count > 1) {
+    let starterPos = 0;
+    let starter = cps[0];
+    let lastRank = ranks[0] ? 256 : 0;
+    let pos = 1;
+    for (let j = 1; j < count; ++j) {
+      let cp = cps[j];
+      let rank = ranks[j];
+      let composite = lastRank < rank || !lastRank ? composePair(starter, cp) : -1;
+      if (composite >= 0) {
+        cps[starterPos] = composite;
+        starter = composite;
+      } else {
+        if (!rank) {
+          starterPos = pos;
+          starter = cp;
+        }
+        lastRank = rank;
+        cps[pos++] = cp;
+      }
+    }
+    count = pos;
+  }
+
+  // encode the result
+  var outLength = count;
+  for (let j = 0; j < count; ++j) outLength += <i32>(cps[j] >= 0x10000);
+  if (!outLength) return changetype<String>("");
+  var out = allocateUnsafe(outLength);
+  var pos: usize = 0;
+  for (let j = 0; j < count; ++j) {
+    let cp = cps[j];
+    if (cp < 0x10000) {
+      store<u16>(changetype<usize>(out) + (pos << 1), cp, HEADER_SIZE);
+      ++pos;
+    } else {
+      cp -= 0x10000;
+      store<u16>(changetype<usize>(out) + (pos << 1), (cp >>> 10) + 0xD800, HEADER_SIZE);
+      store<u16>(changetype<usize>(out) + (pos << 1), (cp & 0x3FF) + 0xDC00, HEADER_SIZE + 2);
+      pos += 2;
+    }
+  }
+  return out;
+}
+
+/**
+ * Compares two strings without locale data, by their base characters ignoring case and accents
+ * first, then by their accents and finally by their case, with lower case sorting first.
+ */
+export function localeCompareUnsafe(str1: String, str2: String): i32 {
+  var nfd1 = normalizeUnsafe(str1, false, false);
+  var nfd2 = normalizeUnsafe(str2, false, false);
+  var lower1 = toCaseUnsafe(nfd1, false);
+  var lower2 = toCaseUnsafe(nfd2, false);
+  var length1 = lower1.length;
+  var length2 = lower2.length;
+
+  // primary: base characters, skipping combining marks
+  var i = 0, j = 0;
+  while (true) {
+    let cp1 = -1, cp2 = -1;
+    while (i < length1) {
+      cp1 = loadCodePoint(lower1, i, length1);
+      i += 1 + <i32>(cp1 >= 0x10000);
+      if (!getCombiningRank(cp1)) break;
+      cp1 = -1;
+    }
+    while (j < length2) {
+      cp2 = loadCodePoint(lower2, j, length2);
+      j += 1 + <i32>(cp2 >= 0x10000);
+      if (!getCombiningRank(cp2)) break;
+      cp2 = -1;
+    }
+    if (cp1 != cp2) return cp1 < cp2 ? -1 : 1;
+    if (cp1 < 0) break;
+  }
+
+  // secondary: accents
+  var cmp = compareUnsafe(lower1, 0, lower2, 0, <usize>min(length1, length2));
+  if (!cmp) cmp = length1 - length2;
+  if (cmp) return cmp < 0 ? -1 : 1;
+
+  // tertiary: case, where the first character differing only in case decides
+  if (nfd1.length == length1 && nfd2.length == length2) {
+    for (let k = 0; k < length1; ++k) {
+      let c1 = <i32>load<u16>(changetype<usize>(nfd1) + (<usize>k << 1), HEADER_SIZE);
+      let c2 = <i32>load<u16>(changetype<usize>(nfd2) + (<usize>k << 1), HEADER_SIZE);
+      if (c1 != c2) {
+        return c1 == <i32>load<u16>(changetype<usize>(lower1) + (<usize>k << 1), HEADER_SIZE) ? -1 : 1;
+      }
+    }
+    return 0;
+  }
+  cmp = compareUnsafe(nfd1, 0, nfd2, 0, <usize>min(nfd1.length, nfd2.length));
+  if (!cmp) cmp = nfd1.length - nfd2.length;
+  return <i32>(cmp > 0) - <i32>(cmp < 0);
+}
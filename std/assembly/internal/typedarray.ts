@@ -2,6 +2,7 @@ import {
   HEADER_SIZE as AB_HEADER_SIZE,
   MAX_BLENGTH as AB_MAX_BLENGTH,
   allocateUnsafe,
+  reallocateUnsafe,
   loadUnsafeWithOffset,
   storeUnsafeWithOffset
 } from "./arraybuffer";
@@ -12,6 +13,14 @@ import {
   defaultComparator
 } from "./array";
 
+import {
+  itoa
+} from "./itoa";
+
+import {
+  dtoa
+} from "./dtoa";
+
 /** Typed array base class. Not a global object. */
 export abstract class TypedArray<T,V> {
 
@@ -61,20 +70,131 @@ export abstract class TypedArray<T,V> {
     storeUnsafeWithOffset<T,V>(this.buffer, index, value, this.byteOffset);
   }
 
-  // copyWithin(target: i32, start: i32, end: i32 = this.length): this
+  fill(value: V, begin: i32 = 0, end: i32 = 0x7fffffff): this {
+    var buffer = this.buffer;
+    var byteOffset = this.byteOffset;
+    var length = this.length;
+    if (begin < 0) begin = max(length + begin, 0);
+    else begin = min(begin, length);
+    if (end < 0) end = max(length + end, 0);
+    else end = min(end, length);
+    if (sizeof<T>() == 1) {
+      if (begin < end) {
+        memory.fill(
+          changetype<usize>(buffer) + AB_HEADER_SIZE + <usize>byteOffset + <usize>begin,
+          <u8>value,
+          <usize>(end - begin)
+        );
+      }
+    } else {
+      for (; begin < end; ++begin) {
+        storeUnsafeWithOffset<T,V>(buffer, begin, value, byteOffset);
+      }
+    }
+    return this;
+  }
 
-  @inline
-  subarray(begin: i32 = 0, end: i32 = 0x7fffffff): TypedArray<T,V> {
+  set<U>(source: U, offset: i32 = 0): void {
+    // source can be an array or another typed array
+    var sourceLength = <i32>source.length; // tslint:disable-line:no-unsafe-any
+    if (<u32>offset > <u32>this.length || sourceLength > this.length - offset) {
+      throw new RangeError("Offset out of bounds");
+    }
+    var buffer = this.buffer;
+    var byteOffset = this.byteOffset;
+    for (let index = 0; index < sourceLength; ++index) {
+      let value = <V>unchecked(source[index]); // tslint:disable-line:no-unsafe-any
+      storeUnsafeWithOffset<T,V>(buffer, offset + index, value, byteOffset);
+    }
+  }
+
+  copyWithin(target: i32, begin: i32 = 0, end: i32 = 0x7fffffff): this {
     var length = this.length;
+    if (target < 0) target = max(length + target, 0);
+    else target = min(target, length);
     if (begin < 0) begin = max(length + begin, 0);
     else begin = min(begin, length);
-    if (end < 0) end = max(length + end, begin);
-    else end = max(min(end, length), begin);
-    var slice = memory.allocate(offsetof<this>());
-    store<usize>(slice, this.buffer, offsetof<this>("buffer"));
-    store<i32>(slice, begin << alignof<T>(), offsetof<this>("byteOffset"));
-    store<i32>(slice, end << alignof<T>(), offsetof<this>("byteLength"));
-    return changetype<this>(slice);
+    if (end < 0) end = max(length + end, 0);
+    else end = min(end, length);
+    var count = min(end - begin, length - target);
+    if (count > 0) {
+      let dataStart = changetype<usize>(this.buffer) + AB_HEADER_SIZE + <usize>this.byteOffset;
+      memory.copy(
+        dataStart + (<usize>target << alignof<T>()),
+        dataStart + (<usize>begin << alignof<T>()),
+        <usize>count << alignof<T>()
+      );
+    }
+    return this;
+  }
+
+  indexOf(searchElement: T, fromIndex: i32 = 0): i32 {
+    var length = this.length;
+    if (length == 0 || fromIndex >= length) return -1;
+    if (fromIndex < 0) fromIndex = max(length + fromIndex, 0);
+    var buffer = this.buffer;
+    var byteOffset = this.byteOffset;
+    while (fromIndex < length) {
+      if (loadUnsafeWithOffset<T,T>(buffer, fromIndex, byteOffset) == searchElement) return fromIndex;
+      ++fromIndex;
+    }
+    return -1;
+  }
+
+  lastIndexOf(searchElement: T, fromIndex: i32 = 0x7fffffff): i32 {
+    var length = this.length;
+    if (length == 0) return -1;
+    if (fromIndex < 0) fromIndex = length + fromIndex; // no need to clamp
+    else if (fromIndex >= length) fromIndex = length - 1;
+    var buffer = this.buffer;
+    var byteOffset = this.byteOffset;
+    while (fromIndex >= 0) {                           // ^
+      if (loadUnsafeWithOffset<T,T>(buffer, fromIndex, byteOffset) == searchElement) return fromIndex;
+      --fromIndex;
+    }
+    return -1;
+  }
+
+  includes(searchElement: T, fromIndex: i32 = 0): bool {
+    var length = this.length;
+    if (length == 0 || fromIndex >= length) return false;
+    if (fromIndex < 0) fromIndex = max(length + fromIndex, 0);
+    var buffer = this.buffer;
+    var byteOffset = this.byteOffset;
+    while (fromIndex < length) {
+      let element = loadUnsafeWithOffset<T,T>(buffer, fromIndex, byteOffset);
+      if (element == searchElement) return true;
+      if (isFloat<T>()) { // unlike indexOf, finds NaN
+        if (isNaN(element) && isNaN(searchElement)) return true;
+      }
+      ++fromIndex;
+    }
+    return false;
+  }
+
+  reverse(): this {
+    var buffer = this.buffer;
+    var byteOffset = this.byteOffset;
+    for (let front = 0, back = this.length - 1; front < back; ++front, --back) {
+      let temp = loadUnsafeWithOffset<T,T>(buffer, front, byteOffset);
+      storeUnsafeWithOffset<T,T>(buffer, front, loadUnsafeWithOffset<T,T>(buffer, back, byteOffset), byteOffset);
+      storeUnsafeWithOffset<T,T>(buffer, back, temp, byteOffset);
+    }
+    return this;
+  }
+
+  join(separator: string = ","): string {
+    var length = this.length;
+    if (length == 0) return "";
+    var buffer = this.buffer;
+    var byteOffset = this.byteOffset;
+    var result = "";
+    for (let index = 0; index < length; ++index) {
+      if (index) result += separator;
+      let element = loadUnsafeWithOffset<T,T>(buffer, index, byteOffset);
+      result += isFloat<T>() ? dtoa<T>(element) : itoa<T>(element);
+    }
+    return result;
   }
 
   sort(comparator: (a: T, b: T) => i32 = defaultComparator<T>()): this {
@@ -106,3 +226,161 @@ export abstract class TypedArray<T,V> {
     }
   }
 }
+
+// Helpers shared by the concrete typed arrays, which pass themselves as the `TArray` argument so that
+// callbacks and results are typed accordingly.
+
+@inline
+export function EVERY<TArray extends TypedArray<T,V>,T,V>(
+  array: TArray,
+  callbackfn: (value: T, index: i32, array: TArray) => bool
+): bool {
+  var buffer = array.buffer;
+  var byteOffset = array.byteOffset;
+  for (let index = 0, length = array.length; index < length; ++index) {
+    if (!callbackfn(loadUnsafeWithOffset<T,T>(buffer, index, byteOffset), index, array)) return false;
+  }
+  return true;
+}
+
+@inline
+export function SOME<TArray extends TypedArray<T,V>,T,V>(
+  array: TArray,
+  callbackfn: (value: T, index: i32, array: TArray) => bool
+): bool {
+  var buffer = array.buffer;
+  var byteOffset = array.byteOffset;
+  for (let index = 0, length = array.length; index < length; ++index) {
+    if (callbackfn(loadUnsafeWithOffset<T,T>(buffer, index, byteOffset), index, array)) return true;
+  }
+  return false;
+}
+
+@inline
+export function FOREACH<TArray extends TypedArray<T,V>,T,V>(
+  array: TArray,
+  callbackfn: (value: T, index: i32, array: TArray) => void
+): void {
+  var buffer = array.buffer;
+  var byteOffset = array.byteOffset;
+  for (let index = 0, length = array.length; index < length; ++index) {
+    callbackfn(loadUnsafeWithOffset<T,T>(buffer, index, byteOffset), index, array);
+  }
+}
+
+@inline
+export function REDUCE<TArray extends TypedArray<T,V>,T,V,U>(
+  array: TArray,
+  callbackfn: (accumulator: U, value: T, index: i32, array: TArray) => U,
+  initialValue: U
+): U {
+  var accum = initialValue;
+  var buffer = array.buffer;
+  var byteOffset = array.byteOffset;
+  for (let index = 0, length = array.length; index < length; ++index) {
+    accum = callbackfn(accum, loadUnsafeWithOffset<T,T>(buffer, index, byteOffset), index, array);
+  }
+  return accum;
+}
+
+@inline
+export function REDUCE_RIGHT<TArray extends TypedArray<T,V>,T,V,U>(
+  array: TArray,
+  callbackfn: (accumulator: U, value: T, index: i32, array: TArray) => U,
+  initialValue: U
+): U {
+  var accum = initialValue;
+  var buffer = array.buffer;
+  var byteOffset = array.byteOffset;
+  for (let index = array.length - 1; index >= 0; --index) {
+    accum = callbackfn(accum, loadUnsafeWithOffset<T,T>(buffer, index, byteOffset), index, array);
+  }
+  return accum;
+}
+
+/** Maps the elements of `array` to `result`, which must be a new typed array of the same length. */
+@inline
+export function MAP<TArray extends TypedArray<T,V>,T,V>(
+  array: TArray,
+  callbackfn: (value: T, index: i32, array: TArray) => T,
+  result: TArray
+): TArray {
+  var buffer = array.buffer;
+  var byteOffset = array.byteOffset;
+  var resultBuffer = result.buffer;
+  for (let index = 0, length = array.length; index < length; ++index) {
+    storeUnsafeWithOffset<T,T>(resultBuffer, index,
+      callbackfn(loadUnsafeWithOffset<T,T>(buffer, index, byteOffset), index, array),
+      0
+    );
+  }
+  return result;
+}
+
+/** Appends the matching elements of `array` to `result`, which must be a new, empty typed array. */
+@inline
+export function FILTER<TArray extends TypedArray<T,V>,T,V>(
+  array: TArray,
+  callbackfn: (value: T, index: i32, array: TArray) => bool,
+  result: TArray
+): TArray {
+  var buffer = array.buffer;
+  var byteOffset = array.byteOffset;
+  var length = array.length;
+  var resultBuffer = reallocateUnsafe(result.buffer, length << alignof<T>());
+  var resultLength = 0;
+  for (let index = 0; index < length; ++index) {
+    let value = loadUnsafeWithOffset<T,T>(buffer, index, byteOffset);
+    if (callbackfn(value, index, array)) storeUnsafeWithOffset<T,T>(resultBuffer, resultLength++, value, 0);
+  }
+  store<usize>(changetype<usize>(result), reallocateUnsafe(resultBuffer, resultLength << alignof<T>()),
+    offsetof<TArray>("buffer")
+  );
+  store<i32>(changetype<usize>(result), resultLength << alignof<T>(), offsetof<TArray>("byteLength"));
+  return result;
+}
+
+/** Copies the elements of `array` from begin to end to `result`, which must be a new, empty typed array. */
+@inline
+export function SLICE<TArray extends TypedArray<T,V>,T,V>(
+  array: TArray,
+  begin: i32,
+  end: i32,
+  result: TArray
+): TArray {
+  var length = array.length;
+  if (begin < 0) begin = max(length + begin, 0);
+  else begin = min(begin, length);
+  if (end < 0) end = max(length + end, begin);
+  else end = max(min(end, length), begin);
+  var byteLength = (end - begin) << alignof<T>();
+  var resultBuffer = reallocateUnsafe(result.buffer, byteLength);
+  memory.copy(
+    changetype<usize>(resultBuffer) + AB_HEADER_SIZE,
+    changetype<usize>(array.buffer) + AB_HEADER_SIZE + <usize>array.byteOffset + (<usize>begin << alignof<T>()),
+    <usize>byteLength
+  );
+  store<usize>(changetype<usize>(result), resultBuffer, offsetof<TArray>("buffer"));
+  store<i32>(changetype<usize>(result), byteLength, offsetof<TArray>("byteLength"));
+  return result;
+}
+
+/** Makes `result`, which must be a new, empty typed array, a view of `array` from begin to end. */
+@inline
+export function SUBARRAY<TArray extends TypedArray<T,V>,T,V>(
+  array: TArray,
+  begin: i32,
+  end: i32,
+  result: TArray
+): TArray {
+  var length = array.length;
+  if (begin < 0) begin = max(length + begin, 0);
+  else begin = min(begin, length);
+  if (end < 0) end = max(length + end, begin);
+  else end = max(min(end, length), begin);
+  var byteOffset = array.byteOffset;
+  store<usize>(changetype<usize>(result), array.buffer, offsetof<TArray>("buffer"));
+  store<i32>(changetype<usize>(result), byteOffset + (begin << alignof<T>()), offsetof<TArray>("byteOffset"));
+  store<i32>(changetype<usize>(result), byteOffset + (end << alignof<T>()), offsetof<TArray>("byteLength"));
+  return result;
+}
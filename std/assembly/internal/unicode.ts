@@ -0,0 +1,9073 @@
+// Generated by scripts/build-unicode.js from Unicode 16.0. Do not edit.
+
+/* tslint:disable:max-line-length */
+
+/** Runs of code points with a single lower case mapping as `start, end, stride, delta`. */
+@inline
+export function LOWER_CASE_RUNS(): i32[] {
+  const table: i32[] = [
+    0x41, 0x5A, 0x1, 0x20,
+    0xC0, 0xD6, 0x1, 0x20,
+    0xD8, 0xDE, 0x1, 0x20,
+    0x100, 0x12E, 0x2, 0x1,
+    0x132, 0x136, 0x2, 0x1,
+    0x139, 0x147, 0x2, 0x1,
+    0x14A, 0x176, 0x2, 0x1,
+    0x178, 0x178, 0x1, -0x79,
+    0x179, 0x17D, 0x2, 0x1,
+    0x181, 0x181, 0x1, 0xD2,
+    0x182, 0x184, 0x2, 0x1,
+    0x186, 0x186, 0x1, 0xCE,
+    0x187, 0x187, 0x1, 0x1,
+    0x189, 0x18A, 0x1, 0xCD,
+    0x18B, 0x18B, 0x1, 0x1,
+    0x18E, 0x18E, 0x1, 0x4F,
+    0x18F, 0x18F, 0x1, 0xCA,
+    0x190, 0x190, 0x1, 0xCB,
+    0x191, 0x191, 0x1, 0x1,
+    0x193, 0x193, 0x1, 0xCD,
+    0x194, 0x194, 0x1, 0xCF,
+    0x196, 0x196, 0x1, 0xD3,
+    0x197, 0x197, 0x1, 0xD1,
+    0x198, 0x198, 0x1, 0x1,
+    0x19C, 0x19C, 0x1, 0xD3,
+    0x19D, 0x19D, 0x1, 0xD5,
+    0x19F, 0x19F, 0x1, 0xD6,
+    0x1A0, 0x1A4, 0x2, 0x1,
+    0x1A6, 0x1A6, 0x1, 0xDA,
+    0x1A7, 0x1A7, 0x1, 0x1,
+    0x1A9, 0x1A9, 0x1, 0xDA,
+    0x1AC, 0x1AC, 0x1, 0x1,
+    0x1AE, 0x1AE, 0x1, 0xDA,
+    0x1AF, 0x1AF, 0x1, 0x1,
+    0x1B1, 0x1B2, 0x1, 0xD9,
+    0x1B3, 0x1B5, 0x2, 0x1,
+    0x1B7, 0x1B7, 0x1, 0xDB,
+    0x1B8, 0x1B8, 0x1, 0x1,
+    0x1BC, 0x1BC, 0x1, 0x1,
+    0x1C4, 0x1C4, 0x1, 0x2,
+    0x1C5, 0x1C5, 0x1, 0x1,
+    0x1C7, 0x1C7, 0x1, 0x2,
+    0x1C8, 0x1C8, 0x1, 0x1,
+    0x1CA, 0x1CA, 0x1, 0x2,
+    0x1CB, 0x1DB, 0x2, 0x1,
+    0x1DE, 0x1EE, 0x2, 0x1,
+    0x1F1, 0x1F1, 0x1, 0x2,
+    0x1F2, 0x1F4, 0x2, 0x1,
+    0x1F6, 0x1F6, 0x1, -0x61,
+    0x1F7, 0x1F7, 0x1, -0x38,
+    0x1F8, 0x21E, 0x2, 0x1,
+    0x220, 0x220, 0x1, -0x82,
+    0x222, 0x232, 0x2, 0x1,
+    0x23A, 0x23A, 0x1, 0x2A2B,
+    0x23B, 0x23B, 0x1, 0x1,
+    0x23D, 0x23D, 0x1, -0xA3,
+    0x23E, 0x23E, 0x1, 0x2A28,
+    0x241, 0x241, 0x1, 0x1,
+    0x243, 0x243, 0x1, -0xC3,
+    0x244, 0x244, 0x1, 0x45,
+    0x245, 0x245, 0x1, 0x47,
+    0x246, 0x24E, 0x2, 0x1,
+    0x370, 0x372, 0x2, 0x1,
+    0x376, 0x376, 0x1, 0x1,
+    0x37F, 0x37F, 0x1, 0x74,
+    0x386, 0x386, 0x1, 0x26,
+    0x388, 0x38A, 0x1, 0x25,
+    0x38C, 0x38C, 0x1, 0x40,
+    0x38E, 0x38F, 0x1, 0x3F,
+    0x391, 0x3A1, 0x1, 0x20,
+    0x3A3, 0x3AB, 0x1, 0x20,
+    0x3CF, 0x3CF, 0x1, 0x8,
+    0x3D8, 0x3EE, 0x2, 0x1,
+    0x3F4, 0x3F4, 0x1, -0x3C,
+    0x3F7, 0x3F7, 0x1, 0x1,
+    0x3F9, 0x3F9, 0x1, -0x7,
+    0x3FA, 0x3FA, 0x1, 0x1,
+    0x3FD, 0x3FF, 0x1, -0x82,
+    0x400, 0x40F, 0x1, 0x50,
+    0x410, 0x42F, 0x1, 0x20,
+    0x460, 0x480, 0x2, 0x1,
+    0x48A, 0x4BE, 0x2, 0x1,
+    0x4C0, 0x4C0, 0x1, 0xF,
+    0x4C1, 0x4CD, 0x2, 0x1,
+    0x4D0, 0x52E, 0x2, 0x1,
+    0x531, 0x556, 0x1, 0x30,
+    0x10A0, 0x10C5, 0x1, 0x1C60,
+    0x10C7, 0x10C7, 0x1, 0x1C60,
+    0x10CD, 0x10CD, 0x1, 0x1C60,
+    0x13A0, 0x13EF, 0x1, 0x97D0,
+    0x13F0, 0x13F5, 0x1, 0x8,
+    0x1C89, 0x1C89, 0x1, 0x1,
+    0x1C90, 0x1CBA, 0x1, -0xBC0,
+    0x1CBD, 0x1CBF, 0x1, -0xBC0,
+    0x1E00, 0x1E94, 0x2, 0x1,
+    0x1E9E, 0x1E9E, 0x1, -0x1DBF,
+    0x1EA0, 0x1EFE, 0x2, 0x1,
+    0x1F08, 0x1F0F, 0x1, -0x8,
+    0x1F18, 0x1F1D, 0x1, -0x8,
+    0x1F28, 0x1F2F, 0x1, -0x8,
+    0x1F38, 0x1F3F, 0x1, -0x8,
+    0x1F48, 0x1F4D, 0x1, -0x8,
+    0x1F59, 0x1F5F, 0x2, -0x8,
+    0x1F68, 0x1F6F, 0x1, -0x8,
+    0x1F88, 0x1F8F, 0x1, -0x8,
+    0x1F98, 0x1F9F, 0x1, -0x8,
+    0x1FA8, 0x1FAF, 0x1, -0x8,
+    0x1FB8, 0x1FB9, 0x1, -0x8,
+    0x1FBA, 0x1FBB, 0x1, -0x4A,
+    0x1FBC, 0x1FBC, 0x1, -0x9,
+    0x1FC8, 0x1FCB, 0x1, -0x56,
+    0x1FCC, 0x1FCC, 0x1, -0x9,
+    0x1FD8, 0x1FD9, 0x1, -0x8,
+    0x1FDA, 0x1FDB, 0x1, -0x64,
+    0x1FE8, 0x1FE9, 0x1, -0x8,
+    0x1FEA, 0x1FEB, 0x1, -0x70,
+    0x1FEC, 0x1FEC, 0x1, -0x7,
+    0x1FF8, 0x1FF9, 0x1, -0x80,
+    0x1FFA, 0x1FFB, 0x1, -0x7E,
+    0x1FFC, 0x1FFC, 0x1, -0x9,
+    0x2126, 0x2126, 0x1, -0x1D5D,
+    0x212A, 0x212A, 0x1, -0x20BF,
+    0x212B, 0x212B, 0x1, -0x2046,
+    0x2132, 0x2132, 0x1, 0x1C,
+    0x2160, 0x216F, 0x1, 0x10,
+    0x2183, 0x2183, 0x1, 0x1,
+    0x24B6, 0x24CF, 0x1, 0x1A,
+    0x2C00, 0x2C2F, 0x1, 0x30,
+    0x2C60, 0x2C60, 0x1, 0x1,
+    0x2C62, 0x2C62, 0x1, -0x29F7,
+    0x2C63, 0x2C63, 0x1, -0xEE6,
+    0x2C64, 0x2C64, 0x1, -0x29E7,
+    0x2C67, 0x2C6B, 0x2, 0x1,
+    0x2C6D, 0x2C6D, 0x1, -0x2A1C,
+    0x2C6E, 0x2C6E, 0x1, -0x29FD,
+    0x2C6F, 0x2C6F, 0x1, -0x2A1F,
+    0x2C70, 0x2C70, 0x1, -0x2A1E,
+    0x2C72, 0x2C72, 0x1, 0x1,
+    0x2C75, 0x2C75, 0x1, 0x1,
+    0x2C7E, 0x2C7F, 0x1, -0x2A3F,
+    0x2C80, 0x2CE2, 0x2, 0x1,
+    0x2CEB, 0x2CED, 0x2, 0x1,
+    0x2CF2, 0x2CF2, 0x1, 0x1,
+    0xA640, 0xA66C, 0x2, 0x1,
+    0xA680, 0xA69A, 0x2, 0x1,
+    0xA722, 0xA72E, 0x2, 0x1,
+    0xA732, 0xA76E, 0x2, 0x1,
+    0xA779, 0xA77B, 0x2, 0x1,
+    0xA77D, 0xA77D, 0x1, -0x8A04,
+    0xA77E, 0xA786, 0x2, 0x1,
+    0xA78B, 0xA78B, 0x1, 0x1,
+    0xA78D, 0xA78D, 0x1, -0xA528,
+    0xA790, 0xA792, 0x2, 0x1,
+    0xA796, 0xA7A8, 0x2, 0x1,
+    0xA7AA, 0xA7AA, 0x1, -0xA544,
+    0xA7AB, 0xA7AB, 0x1, -0xA54F,
+    0xA7AC, 0xA7AC, 0x1, -0xA54B,
+    0xA7AD, 0xA7AD, 0x1, -0xA541,
+    0xA7AE, 0xA7AE, 0x1, -0xA544,
+    0xA7B0, 0xA7B0, 0x1, -0xA512,
+    0xA7B1, 0xA7B1, 0x1, -0xA52A,
+    0xA7B2, 0xA7B2, 0x1, -0xA515,
+    0xA7B3, 0xA7B3, 0x1, 0x3A0,
+    0xA7B4, 0xA7C2, 0x2, 0x1,
+    0xA7C4, 0xA7C4, 0x1, -0x30,
+    0xA7C5, 0xA7C5, 0x1, -0xA543,
+    0xA7C6, 0xA7C6, 0x1, -0x8A38,
+    0xA7C7, 0xA7C9, 0x2, 0x1,
+    0xA7CB, 0xA7CB, 0x1, -0xA567,
+    0xA7CC, 0xA7CC, 0x1, 0x1,
+    0xA7D0, 0xA7D0, 0x1, 0x1,
+    0xA7D6, 0xA7DA, 0x2, 0x1,
+    0xA7DC, 0xA7DC, 0x1, -0xA641,
+    0xA7F5, 0xA7F5, 0x1, 0x1,
+    0xFF21, 0xFF3A, 0x1, 0x20,
+    0x10400, 0x10427, 0x1, 0x28,
+    0x104B0, 0x104D3, 0x1, 0x28,
+    0x10570, 0x1057A, 0x1, 0x27,
+    0x1057C, 0x1058A, 0x1, 0x27,
+    0x1058C, 0x10592, 0x1, 0x27,
+    0x10594, 0x10595, 0x1, 0x27,
+    0x10C80, 0x10CB2, 0x1, 0x40,
+    0x10D50, 0x10D65, 0x1, 0x20,
+    0x118A0, 0x118BF, 0x1, 0x20,
+    0x16E40, 0x16E5F, 0x1, 0x20,
+    0x1E900, 0x1E921, 0x1, 0x22
+  ];
+  return table; // inlines to a constant memory offset
+}
+
+/** Code points with a lower case mapping to multiple code units as `code point, unit, unit, unit`. */
+@inline
+export function LOWER_CASE_SPECIALS(): i32[] {
+  const table: i32[] = [
+    0x130, 0x69, 0x307, 0x0
+  ];
+  return table; // inlines to a constant memory offset
+}
+
+/** Runs of code points with a single upper case mapping as `start, end, stride, delta`. */
+@inline
+export function UPPER_CASE_RUNS(): i32[] {
+  const table: i32[] = [
+    0x61, 0x7A, 0x1, -0x20,
+    0xB5, 0xB5, 0x1, 0x2E7,
+    0xE0, 0xF6, 0x1, -0x20,
+    0xF8, 0xFE, 0x1, -0x20,
+    0xFF, 0xFF, 0x1, 0x79,
+    0x101, 0x12F, 0x2, -0x1,
+    0x131, 0x131, 0x1, -0xE8,
+    0x133, 0x137, 0x2, -0x1,
+    0x13A, 0x148, 0x2, -0x1,
+    0x14B, 0x177, 0x2, -0x1,
+    0x17A, 0x17E, 0x2, -0x1,
+    0x17F, 0x17F, 0x1, -0x12C,
+    0x180, 0x180, 0x1, 0xC3,
+    0x183, 0x185, 0x2, -0x1,
+    0x188, 0x188, 0x1, -0x1,
+    0x18C, 0x18C, 0x1, -0x1,
+    0x192, 0x192, 0x1, -0x1,
+    0x195, 0x195, 0x1, 0x61,
+    0x199, 0x199, 0x1, -0x1,
+    0x19A, 0x19A, 0x1, 0xA3,
+    0x19B, 0x19B, 0x1, 0xA641,
+    0x19E, 0x19E, 0x1, 0x82,
+    0x1A1, 0x1A5, 0x2, -0x1,
+    0x1A8, 0x1A8, 0x1, -0x1,
+    0x1AD, 0x1AD, 0x1, -0x1,
+    0x1B0, 0x1B0, 0x1, -0x1,
+    0x1B4, 0x1B6, 0x2, -0x1,
+    0x1B9, 0x1B9, 0x1, -0x1,
+    0x1BD, 0x1BD, 0x1, -0x1,
+    0x1BF, 0x1BF, 0x1, 0x38,
+    0x1C5, 0x1C5, 0x1, -0x1,
+    0x1C6, 0x1C6, 0x1, -0x2,
+    0x1C8, 0x1C8, 0x1, -0x1,
+    0x1C9, 0x1C9, 0x1, -0x2,
+    0x1CB, 0x1CB, 0x1, -0x1,
+    0x1CC, 0x1CC, 0x1, -0x2,
+    0x1CE, 0x1DC, 0x2, -0x1,
+    0x1DD, 0x1DD, 0x1, -0x4F,
+    0x1DF, 0x1EF, 0x2, -0x1,
+    0x1F2, 0x1F2, 0x1, -0x1,
+    0x1F3, 0x1F3, 0x1, -0x2,
+    0x1F5, 0x1F5, 0x1, -0x1,
+    0x1F9, 0x21F, 0x2, -0x1,
+    0x223, 0x233, 0x2, -0x1,
+    0x23C, 0x23C, 0x1, -0x1,
+    0x23F, 0x240, 0x1, 0x2A3F,
+    0x242, 0x242, 0x1, -0x1,
+    0x247, 0x24F, 0x2, -0x1,
+    0x250, 0x250, 0x1, 0x2A1F,
+    0x251, 0x251, 0x1, 0x2A1C,
+    0x252, 0x252, 0x1, 0x2A1E,
+    0x253, 0x253, 0x1, -0xD2,
+    0x254, 0x254, 0x1, -0xCE,
+    0x256, 0x257, 0x1, -0xCD,
+    0x259, 0x259, 0x1, -0xCA,
+    0x25B, 0x25B, 0x1, -0xCB,
+    0x25C, 0x25C, 0x1, 0xA54F,
+    0x260, 0x260, 0x1, -0xCD,
+    0x261, 0x261, 0x1, 0xA54B,
+    0x263, 0x263, 0x1, -0xCF,
+    0x264, 0x264, 0x1, 0xA567,
+    0x265, 0x265, 0x1, 0xA528,
+    0x266, 0x266, 0x1, 0xA544,
+    0x268, 0x268, 0x1, -0xD1,
+    0x269, 0x269, 0x1, -0xD3,
+    0x26A, 0x26A, 0x1, 0xA544,
+    0x26B, 0x26B, 0x1, 0x29F7,
+    0x26C, 0x26C, 0x1, 0xA541,
+    0x26F, 0x26F, 0x1, -0xD3,
+    0x271, 0x271, 0x1, 0x29FD,
+    0x272, 0x272, 0x1, -0xD5,
+    0x275, 0x275, 0x1, -0xD6,
+    0x27D, 0x27D, 0x1, 0x29E7,
+    0x280, 0x280, 0x1, -0xDA,
+    0x282, 0x282, 0x1, 0xA543,
+    0x283, 0x283, 0x1, -0xDA,
+    0x287, 0x287, 0x1, 0xA52A,
+    0x288, 0x288, 0x1, -0xDA,
+    0x289, 0x289, 0x1, -0x45,
+    0x28A, 0x28B, 0x1, -0xD9,
+    0x28C, 0x28C, 0x1, -0x47,
+    0x292, 0x292, 0x1, -0xDB,
+    0x29D, 0x29D, 0x1, 0xA515,
+    0x29E, 0x29E, 0x1, 0xA512,
+    0x345, 0x345, 0x1, 0x54,
+    0x371, 0x373, 0x2, -0x1,
+    0x377, 0x377, 0x1, -0x1,
+    0x37B, 0x37D, 0x1, 0x82,
+    0x3AC, 0x3AC, 0x1, -0x26,
+    0x3AD, 0x3AF, 0x1, -0x25,
+    0x3B1, 0x3C1, 0x1, -0x20,
+    0x3C2, 0x3C2, 0x1, -0x1F,
+    0x3C3, 0x3CB, 0x1, -0x20,
+    0x3CC, 0x3CC, 0x1, -0x40,
+    0x3CD, 0x3CE, 0x1, -0x3F,
+    0x3D0, 0x3D0, 0x1, -0x3E,
+    0x3D1, 0x3D1, 0x1, -0x39,
+    0x3D5, 0x3D5, 0x1, -0x2F,
+    0x3D6, 0x3D6, 0x1, -0x36,
+    0x3D7, 0x3D7, 0x1, -0x8,
+    0x3D9, 0x3EF, 0x2, -0x1,
+    0x3F0, 0x3F0, 0x1, -0x56,
+    0x3F1, 0x3F1, 0x1, -0x50,
+    0x3F2, 0x3F2, 0x1, 0x7,
+    0x3F3, 0x3F3, 0x1, -0x74,
+    0x3F5, 0x3F5, 0x1, -0x60,
+    0x3F8, 0x3F8, 0x1, -0x1,
+    0x3FB, 0x3FB, 0x1, -0x1,
+    0x430, 0x44F, 0x1, -0x20,
+    0x450, 0x45F, 0x1, -0x50,
+    0x461, 0x481, 0x2, -0x1,
+    0x48B, 0x4BF, 0x2, -0x1,
+    0x4C2, 0x4CE, 0x2, -0x1,
+    0x4CF, 0x4CF, 0x1, -0xF,
+    0x4D1, 0x52F, 0x2, -0x1,
+    0x561, 0x586, 0x1, -0x30,
+    0x10D0, 0x10FA, 0x1, 0xBC0,
+    0x10FD, 0x10FF, 0x1, 0xBC0,
+    0x13F8, 0x13FD, 0x1, -0x8,
+    0x1C80, 0x1C80, 0x1, -0x186E,
+    0x1C81, 0x1C81, 0x1, -0x186D,
+    0x1C82, 0x1C82, 0x1, -0x1864,
+    0x1C83, 0x1C84, 0x1, -0x1862,
+    0x1C85, 0x1C85, 0x1, -0x1863,
+    0x1C86, 0x1C86, 0x1, -0x185C,
+    0x1C87, 0x1C87, 0x1, -0x1825,
+    0x1C88, 0x1C88, 0x1, 0x89C2,
+    0x1C8A, 0x1C8A, 0x1, -0x1,
+    0x1D79, 0x1D79, 0x1, 0x8A04,
+    0x1D7D, 0x1D7D, 0x1, 0xEE6,
+    0x1D8E, 0x1D8E, 0x1, 0x8A38,
+    0x1E01, 0x1E95, 0x2, -0x1,
+    0x1E9B, 0x1E9B, 0x1, -0x3B,
+    0x1EA1, 0x1EFF, 0x2, -0x1,
+    0x1F00, 0x1F07, 0x1, 0x8,
+    0x1F10, 0x1F15, 0x1, 0x8,
+    0x1F20, 0x1F27, 0x1, 0x8,
+    0x1F30, 0x1F37, 0x1, 0x8,
+    0x1F40, 0x1F45, 0x1, 0x8,
+    0x1F51, 0x1F57, 0x2, 0x8,
+    0x1F60, 0x1F67, 0x1, 0x8,
+    0x1F70, 0x1F71, 0x1, 0x4A,
+    0x1F72, 0x1F75, 0x1, 0x56,
+    0x1F76, 0x1F77, 0x1, 0x64,
+    0x1F78, 0x1F79, 0x1, 0x80,
+    0x1F7A, 0x1F7B, 0x1, 0x70,
+    0x1F7C, 0x1F7D, 0x1, 0x7E,
+    0x1FB0, 0x1FB1, 0x1, 0x8,
+    0x1FBE, 0x1FBE, 0x1, -0x1C25,
+    0x1FD0, 0x1FD1, 0x1, 0x8,
+    0x1FE0, 0x1FE1, 0x1, 0x8,
+    0x1FE5, 0x1FE5, 0x1, 0x7,
+    0x214E, 0x214E, 0x1, -0x1C,
+    0x2170, 0x217F, 0x1, -0x10,
+    0x2184, 0x2184, 0x1, -0x1,
+    0x24D0, 0x24E9, 0x1, -0x1A,
+    0x2C30, 0x2C5F, 0x1, -0x30,
+    0x2C61, 0x2C61, 0x1, -0x1,
+    0x2C65, 0x2C65, 0x1, -0x2A2B,
+    0x2C66, 0x2C66, 0x1, -0x2A28,
+    0x2C68, 0x2C6C, 0x2, -0x1,
+    0x2C73, 0x2C73, 0x1, -0x1,
+    0x2C76, 0x2C76, 0x1, -0x1,
+    0x2C81, 0x2CE3, 0x2, -0x1,
+    0x2CEC, 0x2CEE, 0x2, -0x1,
+    0x2CF3, 0x2CF3, 0x1, -0x1,
+    0x2D00, 0x2D25, 0x1, -0x1C60,
+    0x2D27, 0x2D27, 0x1, -0x1C60,
+    0x2D2D, 0x2D2D, 0x1, -0x1C60,
+    0xA641, 0xA66D, 0x2, -0x1,
+    0xA681, 0xA69B, 0x2, -0x1,
+    0xA723, 0xA72F, 0x2, -0x1,
+    0xA733, 0xA76F, 0x2, -0x1,
+    0xA77A, 0xA77C, 0x2, -0x1,
+    0xA77F, 0xA787, 0x2, -0x1,
+    0xA78C, 0xA78C, 0x1, -0x1,
+    0xA791, 0xA793, 0x2, -0x1,
+    0xA794, 0xA794, 0x1, 0x30,
+    0xA797, 0xA7A9, 0x2, -0x1,
+    0xA7B5, 0xA7C3, 0x2, -0x1,
+    0xA7C8, 0xA7CA, 0x2, -0x1,
+    0xA7CD, 0xA7CD, 0x1, -0x1,
+    0xA7D1, 0xA7D1, 0x1, -0x1,
+    0xA7D7, 0xA7DB, 0x2, -0x1,
+    0xA7F6, 0xA7F6, 0x1, -0x1,
+    0xAB53, 0xAB53, 0x1, -0x3A0,
+    0xAB70, 0xABBF, 0x1, -0x97D0,
+    0xFF41, 0xFF5A, 0x1, -0x20,
+    0x10428, 0x1044F, 0x1, -0x28,
+    0x104D8, 0x104FB, 0x1, -0x28,
+    0x10597, 0x105A1, 0x1, -0x27,
+    0x105A3, 0x105B1, 0x1, -0x27,
+    0x105B3, 0x105B9, 0x1, -0x27,
+    0x105BB, 0x105BC, 0x1, -0x27,
+    0x10CC0, 0x10CF2, 0x1, -0x40,
+    0x10D70, 0x10D85, 0x1, -0x20,
+    0x118C0, 0x118DF, 0x1, -0x20,
+    0x16E60, 0x16E7F, 0x1, -0x20,
+    0x1E922, 0x1E943, 0x1, -0x22
+  ];
+  return table; // inlines to a constant memory offset
+}
+
+/** Code points with an upper case mapping to multiple code units as `code point, unit, unit, unit`. */
+@inline
+export function UPPER_CASE_SPECIALS(): i32[] {
+  const table: i32[] = [
+    0xDF, 0x53, 0x53, 0x0,
+    0x149, 0x2BC, 0x4E, 0x0,
+    0x1F0, 0x4A, 0x30C, 0x0,
+    0x390, 0x399, 0x308, 0x301,
+    0x3B0, 0x3A5, 0x308, 0x301,
+    0x587, 0x535, 0x552, 0x0,
+    0x1E96, 0x48, 0x331, 0x0,
+    0x1E97, 0x54, 0x308, 0x0,
+    0x1E98, 0x57, 0x30A, 0x0,
+    0x1E99, 0x59, 0x30A, 0x0,
+    0x1E9A, 0x41, 0x2BE, 0x0,
+    0x1F50, 0x3A5, 0x313, 0x0,
+    0x1F52, 0x3A5, 0x313, 0x300,
+    0x1F54, 0x3A5, 0x313, 0x301,
+    0x1F56, 0x3A5, 0x313, 0x342,
+    0x1F80, 0x1F08, 0x399, 0x0,
+    0x1F81, 0x1F09, 0x399, 0x0,
+    0x1F82, 0x1F0A, 0x399, 0x0,
+    0x1F83, 0x1F0B, 0x399, 0x0,
+    0x1F84, 0x1F0C, 0x399, 0x0,
+    0x1F85, 0x1F0D, 0x399, 0x0,
+    0x1F86, 0x1F0E, 0x399, 0x0,
+    0x1F87, 0x1F0F, 0x399, 0x0,
+    0x1F88, 0x1F08, 0x399, 0x0,
+    0x1F89, 0x1F09, 0x399, 0x0,
+    0x1F8A, 0x1F0A, 0x399, 0x0,
+    0x1F8B, 0x1F0B, 0x399, 0x0,
+    0x1F8C, 0x1F0C, 0x399, 0x0,
+    0x1F8D, 0x1F0D, 0x399, 0x0,
+    0x1F8E, 0x1F0E, 0x399, 0x0,
+    0x1F8F, 0x1F0F, 0x399, 0x0,
+    0x1F90, 0x1F28, 0x399, 0x0,
+    0x1F91, 0x1F29, 0x399, 0x0,
+    0x1F92, 0x1F2A, 0x399, 0x0,
+    0x1F93, 0x1F2B, 0x399, 0x0,
+    0x1F94, 0x1F2C, 0x399, 0x0,
+    0x1F95, 0x1F2D, 0x399, 0x0,
+    0x1F96, 0x1F2E, 0x399, 0x0,
+    0x1F97, 0x1F2F, 0x399, 0x0,
+    0x1F98, 0x1F28, 0x399, 0x0,
+    0x1F99, 0x1F29, 0x399, 0x0,
+    0x1F9A, 0x1F2A, 0x399, 0x0,
+    0x1F9B, 0x1F2B, 0x399, 0x0,
+    0x1F9C, 0x1F2C, 0x399, 0x0,
+    0x1F9D, 0x1F2D, 0x399, 0x0,
+    0x1F9E, 0x1F2E, 0x399, 0x0,
+    0x1F9F, 0x1F2F, 0x399, 0x0,
+    0x1FA0, 0x1F68, 0x399, 0x0,
+    0x1FA1, 0x1F69, 0x399, 0x0,
+    0x1FA2, 0x1F6A, 0x399, 0x0,
+    0x1FA3, 0x1F6B, 0x399, 0x0,
+    0x1FA4, 0x1F6C, 0x399, 0x0,
+    0x1FA5, 0x1F6D, 0x399, 0x0,
+    0x1FA6, 0x1F6E, 0x399, 0x0,
+    0x1FA7, 0x1F6F, 0x399, 0x0,
+    0x1FA8, 0x1F68, 0x399, 0x0,
+    0x1FA9, 0x1F69, 0x399, 0x0,
+    0x1FAA, 0x1F6A, 0x399, 0x0,
+    0x1FAB, 0x1F6B, 0x399, 0x0,
+    0x1FAC, 0x1F6C, 0x399, 0x0,
+    0x1FAD, 0x1F6D, 0x399, 0x0,
+    0x1FAE, 0x1F6E, 0x399, 0x0,
+    0x1FAF, 0x1F6F, 0x399, 0x0,
+    0x1FB2, 0x1FBA, 0x399, 0x0,
+    0x1FB3, 0x391, 0x399, 0x0,
+    0x1FB4, 0x386, 0x399, 0x0,
+    0x1FB6, 0x391, 0x342, 0x0,
+    0x1FB7, 0x391, 0x342, 0x399,
+    0x1FBC, 0x391, 0x399, 0x0,
+    0x1FC2, 0x1FCA, 0x399, 0x0,
+    0x1FC3, 0x397, 0x399, 0x0,
+    0x1FC4, 0x389, 0x399, 0x0,
+    0x1FC6, 0x397, 0x342, 0x0,
+    0x1FC7, 0x397, 0x342, 0x399,
+    0x1FCC, 0x397, 0x399, 0x0,
+    0x1FD2, 0x399, 0x308, 0x300,
+    0x1FD3, 0x399, 0x308, 0x301,
+    0x1FD6, 0x399, 0x342, 0x0,
+    0x1FD7, 0x399, 0x308, 0x342,
+    0x1FE2, 0x3A5, 0x308, 0x300,
+    0x1FE3, 0x3A5, 0x308, 0x301,
+    0x1FE4, 0x3A1, 0x313, 0x0,
+    0x1FE6, 0x3A5, 0x342, 0x0,
+    0x1FE7, 0x3A5, 0x308, 0x342,
+    0x1FF2, 0x1FFA, 0x399, 0x0,
+    0x1FF3, 0x3A9, 0x399, 0x0,
+    0x1FF4, 0x38F, 0x399, 0x0,
+    0x1FF6, 0x3A9, 0x342, 0x0,
+    0x1FF7, 0x3A9, 0x342, 0x399,
+    0x1FFC, 0x3A9, 0x399, 0x0,
+    0xFB00, 0x46, 0x46, 0x0,
+    0xFB01, 0x46, 0x49, 0x0,
+    0xFB02, 0x46, 0x4C, 0x0,
+    0xFB03, 0x46, 0x46, 0x49,
+    0xFB04, 0x46, 0x46, 0x4C,
+    0xFB05, 0x53, 0x54, 0x0,
+    0xFB06, 0x53, 0x54, 0x0,
+    0xFB13, 0x544, 0x546, 0x0,
+    0xFB14, 0x544, 0x535, 0x0,
+    0xFB15, 0x544, 0x53B, 0x0,
+    0xFB16, 0x54E, 0x546, 0x0,
+    0xFB17, 0x544, 0x53D, 0x0
+  ];
+  return table; // inlines to a constant memory offset
+}
+
+/** Ranges of code points with the Cased property as `lo, hi`. */
+@inline
+export function CASED_RANGES(): i32[] {
+  const table: i32[] = [
+    0x41, 0x5A,
+    0x61, 0x7A,
+    0xAA, 0xAA,
+    0xB5, 0xB5,
+    0xBA, 0xBA,
+    0xC0, 0xD6,
+    0xD8, 0xF6,
+    0xF8, 0x1BA,
+    0x1BC, 0x1BF,
+    0x1C4, 0x293,
+    0x295, 0x2B8,
+    0x2C0, 0x2C1,
+    0x2E0, 0x2E4,
+    0x345, 0x345,
+    0x370, 0x373,
+    0x376, 0x377,
+    0x37A, 0x37D,
+    0x37F, 0x37F,
+    0x386, 0x386,
+    0x388, 0x38A,
+    0x38C, 0x38C,
+    0x38E, 0x3A1,
+    0x3A3, 0x3F5,
+    0x3F7, 0x481,
+    0x48A, 0x52F,
+    0x531, 0x556,
+    0x560, 0x588,
+    0x10A0, 0x10C5,
+    0x10C7, 0x10C7,
+    0x10CD, 0x10CD,
+    0x10D0, 0x10FA,
+    0x10FC, 0x10FF,
+    0x13A0, 0x13F5,
+    0x13F8, 0x13FD,
+    0x1C80, 0x1C8A,
+    0x1C90, 0x1CBA,
+    0x1CBD, 0x1CBF,
+    0x1D00, 0x1DBF,
+    0x1E00, 0x1F15,
+    0x1F18, 0x1F1D,
+    0x1F20, 0x1F45,
+    0x1F48, 0x1F4D,
+    0x1F50, 0x1F57,
+    0x1F59, 0x1F59,
+    0x1F5B, 0x1F5B,
+    0x1F5D, 0x1F5D,
+    0x1F5F, 0x1F7D,
+    0x1F80, 0x1FB4,
+    0x1FB6, 0x1FBC,
+    0x1FBE, 0x1FBE,
+    0x1FC2, 0x1FC4,
+    0x1FC6, 0x1FCC,
+    0x1FD0, 0x1FD3,
+    0x1FD6, 0x1FDB,
+    0x1FE0, 0x1FEC,
+    0x1FF2, 0x1FF4,
+    0x1FF6, 0x1FFC,
+    0x2071, 0x2071,
+    0x207F, 0x207F,
+    0x2090, 0x209C,
+    0x2102, 0x2102,
+    0x2107, 0x2107,
+    0x210A, 0x2113,
+    0x2115, 0x2115,
+    0x2119, 0x211D,
+    0x2124, 0x2124,
+    0x2126, 0x2126,
+    0x2128, 0x2128,
+    0x212A, 0x212D,
+    0x212F, 0x2134,
+    0x2139, 0x2139,
+    0x213C, 0x213F,
+    0x2145, 0x2149,
+    0x214E, 0x214E,
+    0x2160, 0x217F,
+    0x2183, 0x2184,
+    0x24B6, 0x24E9,
+    0x2C00, 0x2CE4,
+    0x2CEB, 0x2CEE,
+    0x2CF2, 0x2CF3,
+    0x2D00, 0x2D25,
+    0x2D27, 0x2D27,
+    0x2D2D, 0x2D2D,
+    0xA640, 0xA66D,
+    0xA680, 0xA69D,
+    0xA722, 0xA787,
+    0xA78B, 0xA78E,
+    0xA790, 0xA7CD,
+    0xA7D0, 0xA7D1,
+    0xA7D3, 0xA7D3,
+    0xA7D5, 0xA7DC,
+    0xA7F2, 0xA7F6,
+    0xA7F8, 0xA7FA,
+    0xAB30, 0xAB5A,
+    0xAB5C, 0xAB69,
+    0xAB70, 0xABBF,
+    0xFB00, 0xFB06,
+    0xFB13, 0xFB17,
+    0xFF21, 0xFF3A,
+    0xFF41, 0xFF5A,
+    0x10400, 0x1044F,
+    0x104B0, 0x104D3,
+    0x104D8, 0x104FB,
+    0x10570, 0x1057A,
+    0x1057C, 0x1058A,
+    0x1058C, 0x10592,
+    0x10594, 0x10595,
+    0x10597, 0x105A1,
+    0x105A3, 0x105B1,
+    0x105B3, 0x105B9,
+    0x105BB, 0x105BC,
+    0x10780, 0x10780,
+    0x10783, 0x10785,
+    0x10787, 0x107B0,
+    0x107B2, 0x107BA,
+    0x10C80, 0x10CB2,
+    0x10CC0, 0x10CF2,
+    0x10D50, 0x10D65,
+    0x10D70, 0x10D85,
+    0x118A0, 0x118DF,
+    0x16E40, 0x16E7F,
+    0x1D400, 0x1D454,
+    0x1D456, 0x1D49C,
+    0x1D49E, 0x1D49F,
+    0x1D4A2, 0x1D4A2,
+    0x1D4A5, 0x1D4A6,
+    0x1D4A9, 0x1D4AC,
+    0x1D4AE, 0x1D4B9,
+    0x1D4BB, 0x1D4BB,
+    0x1D4BD, 0x1D4C3,
+    0x1D4C5, 0x1D505,
+    0x1D507, 0x1D50A,
+    0x1D50D, 0x1D514,
+    0x1D516, 0x1D51C,
+    0x1D51E, 0x1D539,
+    0x1D53B, 0x1D53E,
+    0x1D540, 0x1D544,
+    0x1D546, 0x1D546,
+    0x1D54A, 0x1D550,
+    0x1D552, 0x1D6A5,
+    0x1D6A8, 0x1D6C0,
+    0x1D6C2, 0x1D6DA,
+    0x1D6DC, 0x1D6FA,
+    0x1D6FC, 0x1D714,
+    0x1D716, 0x1D734,
+    0x1D736, 0x1D74E,
+    0x1D750, 0x1D76E,
+    0x1D770, 0x1D788,
+    0x1D78A, 0x1D7A8,
+    0x1D7AA, 0x1D7C2,
+    0x1D7C4, 0x1D7CB,
+    0x1DF00, 0x1DF09,
+    0x1DF0B, 0x1DF1E,
+    0x1DF25, 0x1DF2A,
+    0x1E030, 0x1E06D,
+    0x1E900, 0x1E943,
+    0x1F130, 0x1F149,
+    0x1F150, 0x1F169,
+    0x1F170, 0x1F189
+  ];
+  return table; // inlines to a constant memory offset
+}
+
+/** Ranges of code points with the Case_Ignorable property as `lo, hi`. */
+@inline
+export function CASE_IGNORABLE_RANGES(): i32[] {
+  const table: i32[] = [
+    0x27, 0x27,
+    0x2E, 0x2E,
+    0x3A, 0x3A,
+    0x5E, 0x5E,
+    0x60, 0x60,
+    0xA8, 0xA8,
+    0xAD, 0xAD,
+    0xAF, 0xAF,
+    0xB4, 0xB4,
+    0xB7, 0xB8,
+    0x2B0, 0x36F,
+    0x374, 0x375,
+    0x37A, 0x37A,
+    0x384, 0x385,
+    0x387, 0x387,
+    0x483, 0x489,
+    0x559, 0x559,
+    0x55F, 0x55F,
+    0x591, 0x5BD,
+    0x5BF, 0x5BF,
+    0x5C1, 0x5C2,
+    0x5C4, 0x5C5,
+    0x5C7, 0x5C7,
+    0x5F4, 0x5F4,
+    0x600, 0x605,
+    0x610, 0x61A,
+    0x61C, 0x61C,
+    0x640, 0x640,
+    0x64B, 0x65F,
+    0x670, 0x670,
+    0x6D6, 0x6DD,
+    0x6DF, 0x6E8,
+    0x6EA, 0x6ED,
+    0x70F, 0x70F,
+    0x711, 0x711,
+    0x730, 0x74A,
+    0x7A6, 0x7B0,
+    0x7EB, 0x7F5,
+    0x7FA, 0x7FA,
+    0x7FD, 0x7FD,
+    0x816, 0x82D,
+    0x859, 0x85B,
+    0x888, 0x888,
+    0x890, 0x891,
+    0x897, 0x89F,
+    0x8C9, 0x902,
+    0x93A, 0x93A,
+    0x93C, 0x93C,
+    0x941, 0x948,
+    0x94D, 0x94D,
+    0x951, 0x957,
+    0x962, 0x963,
+    0x971, 0x971,
+    0x981, 0x981,
+    0x9BC, 0x9BC,
+    0x9C1, 0x9C4,
+    0x9CD, 0x9CD,
+    0x9E2, 0x9E3,
+    0x9FE, 0x9FE,
+    0xA01, 0xA02,
+    0xA3C, 0xA3C,
+    0xA41, 0xA42,
+    0xA47, 0xA48,
+    0xA4B, 0xA4D,
+    0xA51, 0xA51,
+    0xA70, 0xA71,
+    0xA75, 0xA75,
+    0xA81, 0xA82,
+    0xABC, 0xABC,
+    0xAC1, 0xAC5,
+    0xAC7, 0xAC8,
+    0xACD, 0xACD,
+    0xAE2, 0xAE3,
+    0xAFA, 0xAFF,
+    0xB01, 0xB01,
+    0xB3C, 0xB3C,
+    0xB3F, 0xB3F,
+    0xB41, 0xB44,
+    0xB4D, 0xB4D,
+    0xB55, 0xB56,
+    0xB62, 0xB63,
+    0xB82, 0xB82,
+    0xBC0, 0xBC0,
+    0xBCD, 0xBCD,
+    0xC00, 0xC00,
+    0xC04, 0xC04,
+    0xC3C, 0xC3C,
+    0xC3E, 0xC40,
+    0xC46, 0xC48,
+    0xC4A, 0xC4D,
+    0xC55, 0xC56,
+    0xC62, 0xC63,
+    0xC81, 0xC81,
+    0xCBC, 0xCBC,
+    0xCBF, 0xCBF,
+    0xCC6, 0xCC6,
+    0xCCC, 0xCCD,
+    0xCE2, 0xCE3,
+    0xD00, 0xD01,
+    0xD3B, 0xD3C,
+    0xD41, 0xD44,
+    0xD4D, 0xD4D,
+    0xD62, 0xD63,
+    0xD81, 0xD81,
+    0xDCA, 0xDCA,
+    0xDD2, 0xDD4,
+    0xDD6, 0xDD6,
+    0xE31, 0xE31,
+    0xE34, 0xE3A,
+    0xE46, 0xE4E,
+    0xEB1, 0xEB1,
+    0xEB4, 0xEBC,
+    0xEC6, 0xEC6,
+    0xEC8, 0xECE,
+    0xF18, 0xF19,
+    0xF35, 0xF35,
+    0xF37, 0xF37,
+    0xF39, 0xF39,
+    0xF71, 0xF7E,
+    0xF80, 0xF84,
+    0xF86, 0xF87,
+    0xF8D, 0xF97,
+    0xF99, 0xFBC,
+    0xFC6, 0xFC6,
+    0x102D, 0x1030,
+    0x1032, 0x1037,
+    0x1039, 0x103A,
+    0x103D, 0x103E,
+    0x1058, 0x1059,
+    0x105E, 0x1060,
+    0x1071, 0x1074,
+    0x1082, 0x1082,
+    0x1085, 0x1086,
+    0x108D, 0x108D,
+    0x109D, 0x109D,
+    0x10FC, 0x10FC,
+    0x135D, 0x135F,
+    0x1712, 0x1714,
+    0x1732, 0x1733,
+    0x1752, 0x1753,
+    0x1772, 0x1773,
+    0x17B4, 0x17B5,
+    0x17B7, 0x17BD,
+    0x17C6, 0x17C6,
+    0x17C9, 0x17D3,
+    0x17D7, 0x17D7,
+    0x17DD, 0x17DD,
+    0x180B, 0x180F,
+    0x1843, 0x1843,
+    0x1885, 0x1886,
+    0x18A9, 0x18A9,
+    0x1920, 0x1922,
+    0x1927, 0x1928,
+    0x1932, 0x1932,
+    0x1939, 0x193B,
+    0x1A17, 0x1A18,
+    0x1A1B, 0x1A1B,
+    0x1A56, 0x1A56,
+    0x1A58, 0x1A5E,
+    0x1A60, 0x1A60,
+    0x1A62, 0x1A62,
+    0x1A65, 0x1A6C,
+    0x1A73, 0x1A7C,
+    0x1A7F, 0x1A7F,
+    0x1AA7, 0x1AA7,
+    0x1AB0, 0x1ACE,
+    0x1B00, 0x1B03,
+    0x1B34, 0x1B34,
+    0x1B36, 0x1B3A,
+    0x1B3C, 0x1B3C,
+    0x1B42, 0x1B42,
+    0x1B6B, 0x1B73,
+    0x1B80, 0x1B81,
+    0x1BA2, 0x1BA5,
+    0x1BA8, 0x1BA9,
+    0x1BAB, 0x1BAD,
+    0x1BE6, 0x1BE6,
+    0x1BE8, 0x1BE9,
+    0x1BED, 0x1BED,
+    0x1BEF, 0x1BF1,
+    0x1C2C, 0x1C33,
+    0x1C36, 0x1C37,
+    0x1C78, 0x1C7D,
+    0x1CD0, 0x1CD2,
+    0x1CD4, 0x1CE0,
+    0x1CE2, 0x1CE8,
+    0x1CED, 0x1CED,
+    0x1CF4, 0x1CF4,
+    0x1CF8, 0x1CF9,
+    0x1D2C, 0x1D6A,
+    0x1D78, 0x1D78,
+    0x1D9B, 0x1DFF,
+    0x1FBD, 0x1FBD,
+    0x1FBF, 0x1FC1,
+    0x1FCD, 0x1FCF,
+    0x1FDD, 0x1FDF,
+    0x1FED, 0x1FEF,
+    0x1FFD, 0x1FFE,
+    0x200B, 0x200F,
+    0x2018, 0x2019,
+    0x2024, 0x2024,
+    0x2027, 0x2027,
+    0x202A, 0x202E,
+    0x2060, 0x2064,
+    0x2066, 0x206F,
+    0x2071, 0x2071,
+    0x207F, 0x207F,
+    0x2090, 0x209C,
+    0x20D0, 0x20F0,
+    0x2C7C, 0x2C7D,
+    0x2CEF, 0x2CF1,
+    0x2D6F, 0x2D6F,
+    0x2D7F, 0x2D7F,
+    0x2DE0, 0x2DFF,
+    0x2E2F, 0x2E2F,
+    0x3005, 0x3005,
+    0x302A, 0x302D,
+    0x3031, 0x3035,
+    0x303B, 0x303B,
+    0x3099, 0x309E,
+    0x30FC, 0x30FE,
+    0xA015, 0xA015,
+    0xA4F8, 0xA4FD,
+    0xA60C, 0xA60C,
+    0xA66F, 0xA672,
+    0xA674, 0xA67D,
+    0xA67F, 0xA67F,
+    0xA69C, 0xA69F,
+    0xA6F0, 0xA6F1,
+    0xA700, 0xA721,
+    0xA770, 0xA770,
+    0xA788, 0xA78A,
+    0xA7F2, 0xA7F4,
+    0xA7F8, 0xA7F9,
+    0xA802, 0xA802,
+    0xA806, 0xA806,
+    0xA80B, 0xA80B,
+    0xA825, 0xA826,
+    0xA82C, 0xA82C,
+    0xA8C4, 0xA8C5,
+    0xA8E0, 0xA8F1,
+    0xA8FF, 0xA8FF,
+    0xA926, 0xA92D,
+    0xA947, 0xA951,
+    0xA980, 0xA982,
+    0xA9B3, 0xA9B3,
+    0xA9B6, 0xA9B9,
+    0xA9BC, 0xA9BD,
+    0xA9CF, 0xA9CF,
+    0xA9E5, 0xA9E6,
+    0xAA29, 0xAA2E,
+    0xAA31, 0xAA32,
+    0xAA35, 0xAA36,
+    0xAA43, 0xAA43,
+    0xAA4C, 0xAA4C,
+    0xAA70, 0xAA70,
+    0xAA7C, 0xAA7C,
+    0xAAB0, 0xAAB0,
+    0xAAB2, 0xAAB4,
+    0xAAB7, 0xAAB8,
+    0xAABE, 0xAABF,
+    0xAAC1, 0xAAC1,
+    0xAADD, 0xAADD,
+    0xAAEC, 0xAAED,
+    0xAAF3, 0xAAF4,
+    0xAAF6, 0xAAF6,
+    0xAB5B, 0xAB5F,
+    0xAB69, 0xAB6B,
+    0xABE5, 0xABE5,
+    0xABE8, 0xABE8,
+    0xABED, 0xABED,
+    0xFB1E, 0xFB1E,
+    0xFBB2, 0xFBC2,
+    0xFE00, 0xFE0F,
+    0xFE13, 0xFE13,
+    0xFE20, 0xFE2F,
+    0xFE52, 0xFE52,
+    0xFE55, 0xFE55,
+    0xFEFF, 0xFEFF,
+    0xFF07, 0xFF07,
+    0xFF0E, 0xFF0E,
+    0xFF1A, 0xFF1A,
+    0xFF3E, 0xFF3E,
+    0xFF40, 0xFF40,
+    0xFF70, 0xFF70,
+    0xFF9E, 0xFF9F,
+    0xFFE3, 0xFFE3,
+    0xFFF9, 0xFFFB,
+    0x101FD, 0x101FD,
+    0x102E0, 0x102E0,
+    0x10376, 0x1037A,
+    0x10780, 0x10785,
+    0x10787, 0x107B0,
+    0x107B2, 0x107BA,
+    0x10A01, 0x10A03,
+    0x10A05, 0x10A06,
+    0x10A0C, 0x10A0F,
+    0x10A38, 0x10A3A,
+    0x10A3F, 0x10A3F,
+    0x10AE5, 0x10AE6,
+    0x10D24, 0x10D27,
+    0x10D4E, 0x10D4E,
+    0x10D69, 0x10D6D,
+    0x10D6F, 0x10D6F,
+    0x10EAB, 0x10EAC,
+    0x10EFC, 0x10EFF,
+    0x10F46, 0x10F50,
+    0x10F82, 0x10F85,
+    0x11001, 0x11001,
+    0x11038, 0x11046,
+    0x11070, 0x11070,
+    0x11073, 0x11074,
+    0x1107F, 0x11081,
+    0x110B3, 0x110B6,
+    0x110B9, 0x110BA,
+    0x110BD, 0x110BD,
+    0x110C2, 0x110C2,
+    0x110CD, 0x110CD,
+    0x11100, 0x11102,
+    0x11127, 0x1112B,
+    0x1112D, 0x11134,
+    0x11173, 0x11173,
+    0x11180, 0x11181,
+    0x111B6, 0x111BE,
+    0x111C9, 0x111CC,
+    0x111CF, 0x111CF,
+    0x1122F, 0x11231,
+    0x11234, 0x11234,
+    0x11236, 0x11237,
+    0x1123E, 0x1123E,
+    0x11241, 0x11241,
+    0x112DF, 0x112DF,
+    0x112E3, 0x112EA,
+    0x11300, 0x11301,
+    0x1133B, 0x1133C,
+    0x11340, 0x11340,
+    0x11366, 0x1136C,
+    0x11370, 0x11374,
+    0x113BB, 0x113C0,
+    0x113CE, 0x113CE,
+    0x113D0, 0x113D0,
+    0x113D2, 0x113D2,
+    0x113E1, 0x113E2,
+    0x11438, 0x1143F,
+    0x11442, 0x11444,
+    0x11446, 0x11446,
+    0x1145E, 0x1145E,
+    0x114B3, 0x114B8,
+    0x114BA, 0x114BA,
+    0x114BF, 0x114C0,
+    0x114C2, 0x114C3,
+    0x115B2, 0x115B5,
+    0x115BC, 0x115BD,
+    0x115BF, 0x115C0,
+    0x115DC, 0x115DD,
+    0x11633, 0x1163A,
+    0x1163D, 0x1163D,
+    0x1163F, 0x11640,
+    0x116AB, 0x116AB,
+    0x116AD, 0x116AD,
+    0x116B0, 0x116B5,
+    0x116B7, 0x116B7,
+    0x1171D, 0x1171D,
+    0x1171F, 0x1171F,
+    0x11722, 0x11725,
+    0x11727, 0x1172B,
+    0x1182F, 0x11837,
+    0x11839, 0x1183A,
+    0x1193B, 0x1193C,
+    0x1193E, 0x1193E,
+    0x11943, 0x11943,
+    0x119D4, 0x119D7,
+    0x119DA, 0x119DB,
+    0x119E0, 0x119E0,
+    0x11A01, 0x11A0A,
+    0x11A33, 0x11A38,
+    0x11A3B, 0x11A3E,
+    0x11A47, 0x11A47,
+    0x11A51, 0x11A56,
+    0x11A59, 0x11A5B,
+    0x11A8A, 0x11A96,
+    0x11A98, 0x11A99,
+    0x11C30, 0x11C36,
+    0x11C38, 0x11C3D,
+    0x11C3F, 0x11C3F,
+    0x11C92, 0x11CA7,
+    0x11CAA, 0x11CB0,
+    0x11CB2, 0x11CB3,
+    0x11CB5, 0x11CB6,
+    0x11D31, 0x11D36,
+    0x11D3A, 0x11D3A,
+    0x11D3C, 0x11D3D,
+    0x11D3F, 0x11D45,
+    0x11D47, 0x11D47,
+    0x11D90, 0x11D91,
+    0x11D95, 0x11D95,
+    0x11D97, 0x11D97,
+    0x11EF3, 0x11EF4,
+    0x11F00, 0x11F01,
+    0x11F36, 0x11F3A,
+    0x11F40, 0x11F40,
+    0x11F42, 0x11F42,
+    0x11F5A, 0x11F5A,
+    0x13430, 0x13440,
+    0x13447, 0x13455,
+    0x1611E, 0x16129,
+    0x1612D, 0x1612F,
+    0x16AF0, 0x16AF4,
+    0x16B30, 0x16B36,
+    0x16B40, 0x16B43,
+    0x16D40, 0x16D42,
+    0x16D6B, 0x16D6C,
+    0x16F4F, 0x16F4F,
+    0x16F8F, 0x16F9F,
+    0x16FE0, 0x16FE1,
+    0x16FE3, 0x16FE4,
+    0x1AFF0, 0x1AFF3,
+    0x1AFF5, 0x1AFFB,
+    0x1AFFD, 0x1AFFE,
+    0x1BC9D, 0x1BC9E,
+    0x1BCA0, 0x1BCA3,
+    0x1CF00, 0x1CF2D,
+    0x1CF30, 0x1CF46,
+    0x1D167, 0x1D169,
+    0x1D173, 0x1D182,
+    0x1D185, 0x1D18B,
+    0x1D1AA, 0x1D1AD,
+    0x1D242, 0x1D244,
+    0x1DA00, 0x1DA36,
+    0x1DA3B, 0x1DA6C,
+    0x1DA75, 0x1DA75,
+    0x1DA84, 0x1DA84,
+    0x1DA9B, 0x1DA9F,
+    0x1DAA1, 0x1DAAF,
+    0x1E000, 0x1E006,
+    0x1E008, 0x1E018,
+    0x1E01B, 0x1E021,
+    0x1E023, 0x1E024,
+    0x1E026, 0x1E02A,
+    0x1E030, 0x1E06D,
+    0x1E08F, 0x1E08F,
+    0x1E130, 0x1E13D,
+    0x1E2AE, 0x1E2AE,
+    0x1E2EC, 0x1E2EF,
+    0x1E4EB, 0x1E4EF,
+    0x1E5EE, 0x1E5EF,
+    0x1E8D0, 0x1E8D6,
+    0x1E944, 0x1E94B,
+    0x1F3FB, 0x1F3FF,
+    0xE0001, 0xE0001,
+    0xE0020, 0xE007F,
+    0xE0100, 0xE01EF
+  ];
+  return table; // inlines to a constant memory offset
+}
+
+/** Runs of non-starters as `start, end, rank`, with ranks ordered like canonical combining classes. */
+@inline
+export function COMBINING_CLASS_RUNS(): i32[] {
+  const table: i32[] = [
+    0x300, 0x314, 0x33,
+    0x315, 0x315, 0x34,
+    0x316, 0x319, 0x2E,
+    0x31A, 0x31A, 0x34,
+    0x31B, 0x31B, 0x2C,
+    0x31C, 0x320, 0x2E,
+    0x321, 0x322, 0x2A,
+    0x323, 0x326, 0x2E,
+    0x327, 0x328, 0x2A,
+    0x329, 0x333, 0x2E,
+    0x334, 0x338, 0x1,
+    0x339, 0x33C, 0x2E,
+    0x33D, 0x344, 0x33,
+    0x345, 0x345, 0x37,
+    0x346, 0x346, 0x33,
+    0x347, 0x349, 0x2E,
+    0x34A, 0x34C, 0x33,
+    0x34D, 0x34E, 0x2E,
+    0x350, 0x352, 0x33,
+    0x353, 0x356, 0x2E,
+    0x357, 0x357, 0x33,
+    0x358, 0x358, 0x34,
+    0x359, 0x35A, 0x2E,
+    0x35B, 0x35B, 0x33,
+    0x35C, 0x35C, 0x35,
+    0x35D, 0x35E, 0x36,
+    0x35F, 0x35F, 0x35,
+    0x360, 0x361, 0x36,
+    0x362, 0x362, 0x35,
+    0x363, 0x36F, 0x33,
+    0x483, 0x487, 0x33,
+    0x591, 0x591, 0x2E,
+    0x592, 0x595, 0x33,
+    0x596, 0x596, 0x2E,
+    0x597, 0x599, 0x33,
+    0x59A, 0x59A, 0x2F,
+    0x59B, 0x59B, 0x2E,
+    0x59C, 0x5A1, 0x33,
+    0x5A2, 0x5A7, 0x2E,
+    0x5A8, 0x5A9, 0x33,
+    0x5AA, 0x5AA, 0x2E,
+    0x5AB, 0x5AC, 0x33,
+    0x5AD, 0x5AD, 0x2F,
+    0x5AE, 0x5AE, 0x32,
+    0x5AF, 0x5AF, 0x33,
+    0x5B0, 0x5B0, 0x6,
+    0x5B1, 0x5B1, 0x7,
+    0x5B2, 0x5B2, 0x8,
+    0x5B3, 0x5B3, 0x9,
+    0x5B4, 0x5B4, 0xA,
+    0x5B5, 0x5B5, 0xB,
+    0x5B6, 0x5B6, 0xC,
+    0x5B7, 0x5B7, 0xD,
+    0x5B8, 0x5B8, 0xE,
+    0x5B9, 0x5BA, 0xF,
+    0x5BB, 0x5BB, 0x10,
+    0x5BC, 0x5BC, 0x11,
+    0x5BD, 0x5BD, 0x12,
+    0x5BF, 0x5BF, 0x13,
+    0x5C1, 0x5C1, 0x14,
+    0x5C2, 0x5C2, 0x15,
+    0x5C4, 0x5C4, 0x33,
+    0x5C5, 0x5C5, 0x2E,
+    0x5C7, 0x5C7, 0xE,
+    0x610, 0x617, 0x33,
+    0x618, 0x618, 0x1A,
+    0x619, 0x619, 0x1B,
+    0x61A, 0x61A, 0x1C,
+    0x64B, 0x64B, 0x17,
+    0x64C, 0x64C, 0x18,
+    0x64D, 0x64D, 0x19,
+    0x64E, 0x64E, 0x1A,
+    0x64F, 0x64F, 0x1B,
+    0x650, 0x650, 0x1C,
+    0x651, 0x651, 0x1D,
+    0x652, 0x652, 0x1E,
+    0x653, 0x654, 0x33,
+    0x655, 0x656, 0x2E,
+    0x657, 0x65B, 0x33,
+    0x65C, 0x65C, 0x2E,
+    0x65D, 0x65E, 0x33,
+    0x65F, 0x65F, 0x2E,
+    0x670, 0x670, 0x1F,
+    0x6D6, 0x6DC, 0x33,
+    0x6DF, 0x6E2, 0x33,
+    0x6E3, 0x6E3, 0x2E,
+    0x6E4, 0x6E4, 0x33,
+    0x6E7, 0x6E8, 0x33,
+    0x6EA, 0x6EA, 0x2E,
+    0x6EB, 0x6EC, 0x33,
+    0x6ED, 0x6ED, 0x2E,
+    0x711, 0x711, 0x20,
+    0x730, 0x730, 0x33,
+    0x731, 0x731, 0x2E,
+    0x732, 0x733, 0x33,
+    0x734, 0x734, 0x2E,
+    0x735, 0x736, 0x33,
+    0x737, 0x739, 0x2E,
+    0x73A, 0x73A, 0x33,
+    0x73B, 0x73C, 0x2E,
+    0x73D, 0x73D, 0x33,
+    0x73E, 0x73E, 0x2E,
+    0x73F, 0x741, 0x33,
+    0x742, 0x742, 0x2E,
+    0x743, 0x743, 0x33,
+    0x744, 0x744, 0x2E,
+    0x745, 0x745, 0x33,
+    0x746, 0x746, 0x2E,
+    0x747, 0x747, 0x33,
+    0x748, 0x748, 0x2E,
+    0x749, 0x74A, 0x33,
+    0x7EB, 0x7F1, 0x33,
+    0x7F2, 0x7F2, 0x2E,
+    0x7F3, 0x7F3, 0x33,
+    0x7FD, 0x7FD, 0x2E,
+    0x816, 0x819, 0x33,
+    0x81B, 0x823, 0x33,
+    0x825, 0x827, 0x33,
+    0x829, 0x82D, 0x33,
+    0x859, 0x85B, 0x2E,
+    0x897, 0x898, 0x33,
+    0x899, 0x89B, 0x2E,
+    0x89C, 0x89F, 0x33,
+    0x8CA, 0x8CE, 0x33,
+    0x8CF, 0x8D3, 0x2E,
+    0x8D4, 0x8E1, 0x33,
+    0x8E3, 0x8E3, 0x2E,
+    0x8E4, 0x8E5, 0x33,
+    0x8E6, 0x8E6, 0x2E,
+    0x8E7, 0x8E8, 0x33,
+    0x8E9, 0x8E9, 0x2E,
+    0x8EA, 0x8EC, 0x33,
+    0x8ED, 0x8EF, 0x2E,
+    0x8F0, 0x8F0, 0x17,
+    0x8F1, 0x8F1, 0x18,
+    0x8F2, 0x8F2, 0x19,
+    0x8F3, 0x8F5, 0x33,
+    0x8F6, 0x8F6, 0x2E,
+    0x8F7, 0x8F8, 0x33,
+    0x8F9, 0x8FA, 0x2E,
+    0x8FB, 0x8FF, 0x33,
+    0x93C, 0x93C, 0x3,
+    0x94D, 0x94D, 0x5,
+    0x951, 0x951, 0x33,
+    0x952, 0x952, 0x2E,
+    0x953, 0x954, 0x33,
+    0x9BC, 0x9BC, 0x3,
+    0x9CD, 0x9CD, 0x5,
+    0x9FE, 0x9FE, 0x33,
+    0xA3C, 0xA3C, 0x3,
+    0xA4D, 0xA4D, 0x5,
+    0xABC, 0xABC, 0x3,
+    0xACD, 0xACD, 0x5,
+    0xB3C, 0xB3C, 0x3,
+    0xB4D, 0xB4D, 0x5,
+    0xBCD, 0xBCD, 0x5,
+    0xC3C, 0xC3C, 0x3,
+    0xC4D, 0xC4D, 0x5,
+    0xC55, 0xC55, 0x21,
+    0xC56, 0xC56, 0x22,
+    0xCBC, 0xCBC, 0x3,
+    0xCCD, 0xCCD, 0x5,
+    0xD3B, 0xD3C, 0x5,
+    0xD4D, 0xD4D, 0x5,
+    0xDCA, 0xDCA, 0x5,
+    0xE38, 0xE39, 0x23,
+    0xE3A, 0xE3A, 0x5,
+    0xE48, 0xE4B, 0x24,
+    0xEB8, 0xEB9, 0x25,
+    0xEBA, 0xEBA, 0x5,
+    0xEC8, 0xECB, 0x26,
+    0xF18, 0xF19, 0x2E,
+    0xF35, 0xF35, 0x2E,
+    0xF37, 0xF37, 0x2E,
+    0xF39, 0xF39, 0x2C,
+    0xF71, 0xF71, 0x27,
+    0xF72, 0xF72, 0x28,
+    0xF74, 0xF74, 0x29,
+    0xF7A, 0xF7D, 0x28,
+    0xF80, 0xF80, 0x28,
+    0xF82, 0xF83, 0x33,
+    0xF84, 0xF84, 0x5,
+    0xF86, 0xF87, 0x33,
+    0xFC6, 0xFC6, 0x2E,
+    0x1037, 0x1037, 0x3,
+    0x1039, 0x103A, 0x5,
+    0x108D, 0x108D, 0x2E,
+    0x135D, 0x135F, 0x33,
+    0x1714, 0x1715, 0x5,
+    0x1734, 0x1734, 0x5,
+    0x17D2, 0x17D2, 0x5,
+    0x17DD, 0x17DD, 0x33,
+    0x18A9, 0x18A9, 0x32,
+    0x1939, 0x1939, 0x2F,
+    0x193A, 0x193A, 0x33,
+    0x193B, 0x193B, 0x2E,
+    0x1A17, 0x1A17, 0x33,
+    0x1A18, 0x1A18, 0x2E,
+    0x1A60, 0x1A60, 0x5,
+    0x1A75, 0x1A7C, 0x33,
+    0x1A7F, 0x1A7F, 0x2E,
+    0x1AB0, 0x1AB4, 0x33,
+    0x1AB5, 0x1ABA, 0x2E,
+    0x1ABB, 0x1ABC, 0x33,
+    0x1ABD, 0x1ABD, 0x2E,
+    0x1ABF, 0x1AC0, 0x2E,
+    0x1AC1, 0x1AC2, 0x33,
+    0x1AC3, 0x1AC4, 0x2E,
+    0x1AC5, 0x1AC9, 0x33,
+    0x1ACA, 0x1ACA, 0x2E,
+    0x1ACB, 0x1ACE, 0x33,
+    0x1B34, 0x1B34, 0x3,
+    0x1B44, 0x1B44, 0x5,
+    0x1B6B, 0x1B6B, 0x33,
+    0x1B6C, 0x1B6C, 0x2E,
+    0x1B6D, 0x1B73, 0x33,
+    0x1BAA, 0x1BAB, 0x5,
+    0x1BE6, 0x1BE6, 0x3,
+    0x1BF2, 0x1BF3, 0x5,
+    0x1C37, 0x1C37, 0x3,
+    0x1CD0, 0x1CD2, 0x33,
+    0x1CD4, 0x1CD4, 0x1,
+    0x1CD5, 0x1CD9, 0x2E,
+    0x1CDA, 0x1CDB, 0x33,
+    0x1CDC, 0x1CDF, 0x2E,
+    0x1CE0, 0x1CE0, 0x33,
+    0x1CE2, 0x1CE8, 0x1,
+    0x1CED, 0x1CED, 0x2E,
+    0x1CF4, 0x1CF4, 0x33,
+    0x1CF8, 0x1CF9, 0x33,
+    0x1DC0, 0x1DC1, 0x33,
+    0x1DC2, 0x1DC2, 0x2E,
+    0x1DC3, 0x1DC9, 0x33,
+    0x1DCA, 0x1DCA, 0x2E,
+    0x1DCB, 0x1DCC, 0x33,
+    0x1DCD, 0x1DCD, 0x36,
+    0x1DCE, 0x1DCE, 0x2B,
+    0x1DCF, 0x1DCF, 0x2E,
+    0x1DD0, 0x1DD0, 0x2A,
+    0x1DD1, 0x1DF5, 0x33,
+    0x1DF6, 0x1DF6, 0x34,
+    0x1DF7, 0x1DF8, 0x32,
+    0x1DF9, 0x1DF9, 0x2E,
+    0x1DFA, 0x1DFA, 0x2D,
+    0x1DFB, 0x1DFB, 0x33,
+    0x1DFC, 0x1DFC, 0x35,
+    0x1DFD, 0x1DFD, 0x2E,
+    0x1DFE, 0x1DFE, 0x33,
+    0x1DFF, 0x1DFF, 0x2E,
+    0x20D0, 0x20D1, 0x33,
+    0x20D2, 0x20D3, 0x1,
+    0x20D4, 0x20D7, 0x33,
+    0x20D8, 0x20DA, 0x1,
+    0x20DB, 0x20DC, 0x33,
+    0x20E1, 0x20E1, 0x33,
+    0x20E5, 0x20E6, 0x1,
+    0x20E7, 0x20E7, 0x33,
+    0x20E8, 0x20E8, 0x2E,
+    0x20E9, 0x20E9, 0x33,
+    0x20EA, 0x20EB, 0x1,
+    0x20EC, 0x20EF, 0x2E,
+    0x20F0, 0x20F0, 0x33,
+    0x2CEF, 0x2CF1, 0x33,
+    0x2D7F, 0x2D7F, 0x5,
+    0x2DE0, 0x2DFF, 0x33,
+    0x302A, 0x302A, 0x2D,
+    0x302B, 0x302B, 0x32,
+    0x302C, 0x302C, 0x34,
+    0x302D, 0x302D, 0x2F,
+    0x302E, 0x302F, 0x30,
+    0x3099, 0x309A, 0x4,
+    0xA66F, 0xA66F, 0x33,
+    0xA674, 0xA67D, 0x33,
+    0xA69E, 0xA69F, 0x33,
+    0xA6F0, 0xA6F1, 0x33,
+    0xA806, 0xA806, 0x5,
+    0xA82C, 0xA82C, 0x5,
+    0xA8C4, 0xA8C4, 0x5,
+    0xA8E0, 0xA8F1, 0x33,
+    0xA92B, 0xA92D, 0x2E,
+    0xA953, 0xA953, 0x5,
+    0xA9B3, 0xA9B3, 0x3,
+    0xA9C0, 0xA9C0, 0x5,
+    0xAAB0, 0xAAB0, 0x33,
+    0xAAB2, 0xAAB3, 0x33,
+    0xAAB4, 0xAAB4, 0x2E,
+    0xAAB7, 0xAAB8, 0x33,
+    0xAABE, 0xAABF, 0x33,
+    0xAAC1, 0xAAC1, 0x33,
+    0xAAF6, 0xAAF6, 0x5,
+    0xABED, 0xABED, 0x5,
+    0xFB1E, 0xFB1E, 0x16,
+    0xFE20, 0xFE26, 0x33,
+    0xFE27, 0xFE2D, 0x2E,
+    0xFE2E, 0xFE2F, 0x33,
+    0x101FD, 0x101FD, 0x2E,
+    0x102E0, 0x102E0, 0x2E,
+    0x10376, 0x1037A, 0x33,
+    0x10A0D, 0x10A0D, 0x2E,
+    0x10A0F, 0x10A0F, 0x33,
+    0x10A38, 0x10A38, 0x33,
+    0x10A39, 0x10A39, 0x1,
+    0x10A3A, 0x10A3A, 0x2E,
+    0x10A3F, 0x10A3F, 0x5,
+    0x10AE5, 0x10AE5, 0x33,
+    0x10AE6, 0x10AE6, 0x2E,
+    0x10D24, 0x10D27, 0x33,
+    0x10D69, 0x10D6D, 0x33,
+    0x10EAB, 0x10EAC, 0x33,
+    0x10EFD, 0x10EFF, 0x2E,
+    0x10F46, 0x10F47, 0x2E,
+    0x10F48, 0x10F4A, 0x33,
+    0x10F4B, 0x10F4B, 0x2E,
+    0x10F4C, 0x10F4C, 0x33,
+    0x10F4D, 0x10F50, 0x2E,
+    0x10F82, 0x10F82, 0x33,
+    0x10F83, 0x10F83, 0x2E,
+    0x10F84, 0x10F84, 0x33,
+    0x10F85, 0x10F85, 0x2E,
+    0x11046, 0x11046, 0x5,
+    0x11070, 0x11070, 0x5,
+    0x1107F, 0x1107F, 0x5,
+    0x110B9, 0x110B9, 0x5,
+    0x110BA, 0x110BA, 0x3,
+    0x11100, 0x11102, 0x33,
+    0x11133, 0x11134, 0x5,
+    0x11173, 0x11173, 0x3,
+    0x111C0, 0x111C0, 0x5,
+    0x111CA, 0x111CA, 0x3,
+    0x11235, 0x11235, 0x5,
+    0x11236, 0x11236, 0x3,
+    0x112E9, 0x112E9, 0x3,
+    0x112EA, 0x112EA, 0x5,
+    0x1133B, 0x1133C, 0x3,
+    0x1134D, 0x1134D, 0x5,
+    0x11366, 0x1136C, 0x33,
+    0x11370, 0x11374, 0x33,
+    0x113CE, 0x113D0, 0x5,
+    0x11442, 0x11442, 0x5,
+    0x11446, 0x11446, 0x3,
+    0x1145E, 0x1145E, 0x33,
+    0x114C2, 0x114C2, 0x5,
+    0x114C3, 0x114C3, 0x3,
+    0x115BF, 0x115BF, 0x5,
+    0x115C0, 0x115C0, 0x3,
+    0x1163F, 0x1163F, 0x5,
+    0x116B6, 0x116B6, 0x5,
+    0x116B7, 0x116B7, 0x3,
+    0x1172B, 0x1172B, 0x5,
+    0x11839, 0x11839, 0x5,
+    0x1183A, 0x1183A, 0x3,
+    0x1193D, 0x1193E, 0x5,
+    0x11943, 0x11943, 0x3,
+    0x119E0, 0x119E0, 0x5,
+    0x11A34, 0x11A34, 0x5,
+    0x11A47, 0x11A47, 0x5,
+    0x11A99, 0x11A99, 0x5,
+    0x11C3F, 0x11C3F, 0x5,
+    0x11D42, 0x11D42, 0x3,
+    0x11D44, 0x11D45, 0x5,
+    0x11D97, 0x11D97, 0x5,
+    0x11F41, 0x11F42, 0x5,
+    0x1612F, 0x1612F, 0x5,
+    0x16AF0, 0x16AF4, 0x1,
+    0x16B30, 0x16B36, 0x33,
+    0x16FF0, 0x16FF1, 0x2,
+    0x1BC9E, 0x1BC9E, 0x1,
+    0x1D165, 0x1D166, 0x2C,
+    0x1D167, 0x1D169, 0x1,
+    0x1D16D, 0x1D16D, 0x31,
+    0x1D16E, 0x1D172, 0x2C,
+    0x1D17B, 0x1D182, 0x2E,
+    0x1D185, 0x1D189, 0x33,
+    0x1D18A, 0x1D18B, 0x2E,
+    0x1D1AA, 0x1D1AD, 0x33,
+    0x1D242, 0x1D244, 0x33,
+    0x1E000, 0x1E006, 0x33,
+    0x1E008, 0x1E018, 0x33,
+    0x1E01B, 0x1E021, 0x33,
+    0x1E023, 0x1E024, 0x33,
+    0x1E026, 0x1E02A, 0x33,
+    0x1E08F, 0x1E08F, 0x33,
+    0x1E130, 0x1E136, 0x33,
+    0x1E2AE, 0x1E2AE, 0x33,
+    0x1E2EC, 0x1E2EF, 0x33,
+    0x1E4EC, 0x1E4ED, 0x34,
+    0x1E4EE, 0x1E4EE, 0x2E,
+    0x1E4EF, 0x1E4EF, 0x33,
+    0x1E5EE, 0x1E5EE, 0x33,
+    0x1E5EF, 0x1E5EF, 0x2E,
+    0x1E8D0, 0x1E8D6, 0x2E,
+    0x1E944, 0x1E949, 0x33,
+    0x1E94A, 0x1E94A, 0x3
+  ];
+  return table; // inlines to a constant memory offset
+}
+
+/** Full canonical decompositions as `code point, offset << 5 | length` into `CANONICAL_DATA`. */
+@inline
+export function CANONICAL_DECOMPOSITIONS(): i32[] {
+  const table: i32[] = [
+    0xC0, 0x2,
+    0xC1, 0x42,
+    0xC2, 0x82,
+    0xC3, 0xC2,
+    0xC4, 0x102,
+    0xC5, 0x142,
+    0xC7, 0x182,
+    0xC8, 0x1C2,
+    0xC9, 0x202,
+    0xCA, 0x242,
+    0xCB, 0x282,
+    0xCC, 0x2C2,
+    0xCD, 0x302,
+    0xCE, 0x342,
+    0xCF, 0x382,
+    0xD1, 0x3C2,
+    0xD2, 0x402,
+    0xD3, 0x442,
+    0xD4, 0x482,
+    0xD5, 0x4C2,
+    0xD6, 0x502,
+    0xD9, 0x542,
+    0xDA, 0x582,
+    0xDB, 0x5C2,
+    0xDC, 0x602,
+    0xDD, 0x642,
+    0xE0, 0x682,
+    0xE1, 0x6C2,
+    0xE2, 0x702,
+    0xE3, 0x742,
+    0xE4, 0x782,
+    0xE5, 0x7C2,
+    0xE7, 0x802,
+    0xE8, 0x842,
+    0xE9, 0x882,
+    0xEA, 0x8C2,
+    0xEB, 0x902,
+    0xEC, 0x942,
+    0xED, 0x982,
+    0xEE, 0x9C2,
+    0xEF, 0xA02,
+    0xF1, 0xA42,
+    0xF2, 0xA82,
+    0xF3, 0xAC2,
+    0xF4, 0xB02,
+    0xF5, 0xB42,
+    0xF6, 0xB82,
+    0xF9, 0xBC2,
+    0xFA, 0xC02,
+    0xFB, 0xC42,
+    0xFC, 0xC82,
+    0xFD, 0xCC2,
+    0xFF, 0xD02,
+    0x100, 0xD42,
+    0x101, 0xD82,
+    0x102, 0xDC2,
+    0x103, 0xE02,
+    0x104, 0xE42,
+    0x105, 0xE82,
+    0x106, 0xEC2,
+    0x107, 0xF02,
+    0x108, 0xF42,
+    0x109, 0xF82,
+    0x10A, 0xFC2,
+    0x10B, 0x1002,
+    0x10C, 0x1042,
+    0x10D, 0x1082,
+    0x10E, 0x10C2,
+    0x10F, 0x1102,
+    0x112, 0x1142,
+    0x113, 0x1182,
+    0x114, 0x11C2,
+    0x115, 0x1202,
+    0x116, 0x1242,
+    0x117, 0x1282,
+    0x118, 0x12C2,
+    0x119, 0x1302,
+    0x11A, 0x1342,
+    0x11B, 0x1382,
+    0x11C, 0x13C2,
+    0x11D, 0x1402,
+    0x11E, 0x1442,
+    0x11F, 0x1482,
+    0x120, 0x14C2,
+    0x121, 0x1502,
+    0x122, 0x1542,
+    0x123, 0x1582,
+    0x124, 0x15C2,
+    0x125, 0x1602,
+    0x128, 0x1642,
+    0x129, 0x1682,
+    0x12A, 0x16C2,
+    0x12B, 0x1702,
+    0x12C, 0x1742,
+    0x12D, 0x1782,
+    0x12E, 0x17C2,
+    0x12F, 0x1802,
+    0x130, 0x1842,
+    0x134, 0x1882,
+    0x135, 0x18C2,
+    0x136, 0x1902,
+    0x137, 0x1942,
+    0x139, 0x1982,
+    0x13A, 0x19C2,
+    0x13B, 0x1A02,
+    0x13C, 0x1A42,
+    0x13D, 0x1A82,
+    0x13E, 0x1AC2,
+    0x143, 0x1B02,
+    0x144, 0x1B42,
+    0x145, 0x1B82,
+    0x146, 0x1BC2,
+    0x147, 0x1C02,
+    0x148, 0x1C42,
+    0x14C, 0x1C82,
+    0x14D, 0x1CC2,
+    0x14E, 0x1D02,
+    0x14F, 0x1D42,
+    0x150, 0x1D82,
+    0x151, 0x1DC2,
+    0x154, 0x1E02,
+    0x155, 0x1E42,
+    0x156, 0x1E82,
+    0x157, 0x1EC2,
+    0x158, 0x1F02,
+    0x159, 0x1F42,
+    0x15A, 0x1F82,
+    0x15B, 0x1FC2,
+    0x15C, 0x2002,
+    0x15D, 0x2042,
+    0x15E, 0x2082,
+    0x15F, 0x20C2,
+    0x160, 0x2102,
+    0x161, 0x2142,
+    0x162, 0x2182,
+    0x163, 0x21C2,
+    0x164, 0x2202,
+    0x165, 0x2242,
+    0x168, 0x2282,
+    0x169, 0x22C2,
+    0x16A, 0x2302,
+    0x16B, 0x2342,
+    0x16C, 0x2382,
+    0x16D, 0x23C2,
+    0x16E, 0x2402,
+    0x16F, 0x2442,
+    0x170, 0x2482,
+    0x171, 0x24C2,
+    0x172, 0x2502,
+    0x173, 0x2542,
+    0x174, 0x2582,
+    0x175, 0x25C2,
+    0x176, 0x2602,
+    0x177, 0x2642,
+    0x178, 0x2682,
+    0x179, 0x26C2,
+    0x17A, 0x2702,
+    0x17B, 0x2742,
+    0x17C, 0x2782,
+    0x17D, 0x27C2,
+    0x17E, 0x2802,
+    0x1A0, 0x2842,
+    0x1A1, 0x2882,
+    0x1AF, 0x28C2,
+    0x1B0, 0x2902,
+    0x1CD, 0x2942,
+    0x1CE, 0x2982,
+    0x1CF, 0x29C2,
+    0x1D0, 0x2A02,
+    0x1D1, 0x2A42,
+    0x1D2, 0x2A82,
+    0x1D3, 0x2AC2,
+    0x1D4, 0x2B02,
+    0x1D5, 0x2B43,
+    0x1D6, 0x2BA3,
+    0x1D7, 0x2C03,
+    0x1D8, 0x2C63,
+    0x1D9, 0x2CC3,
+    0x1DA, 0x2D23,
+    0x1DB, 0x2D83,
+    0x1DC, 0x2DE3,
+    0x1DE, 0x2E43,
+    0x1DF, 0x2EA3,
+    0x1E0, 0x2F03,
+    0x1E1, 0x2F63,
+    0x1E2, 0x2FC2,
+    0x1E3, 0x3002,
+    0x1E6, 0x3042,
+    0x1E7, 0x3082,
+    0x1E8, 0x30C2,
+    0x1E9, 0x3102,
+    0x1EA, 0x3142,
+    0x1EB, 0x3182,
+    0x1EC, 0x31C3,
+    0x1ED, 0x3223,
+    0x1EE, 0x3282,
+    0x1EF, 0x32C2,
+    0x1F0, 0x3302,
+    0x1F4, 0x3342,
+    0x1F5, 0x3382,
+    0x1F8, 0x33C2,
+    0x1F9, 0x3402,
+    0x1FA, 0x3443,
+    0x1FB, 0x34A3,
+    0x1FC, 0x3502,
+    0x1FD, 0x3542,
+    0x1FE, 0x3582,
+    0x1FF, 0x35C2,
+    0x200, 0x3602,
+    0x201, 0x3642,
+    0x202, 0x3682,
+    0x203, 0x36C2,
+    0x204, 0x3702,
+    0x205, 0x3742,
+    0x206, 0x3782,
+    0x207, 0x37C2,
+    0x208, 0x3802,
+    0x209, 0x3842,
+    0x20A, 0x3882,
+    0x20B, 0x38C2,
+    0x20C, 0x3902,
+    0x20D, 0x3942,
+    0x20E, 0x3982,
+    0x20F, 0x39C2,
+    0x210, 0x3A02,
+    0x211, 0x3A42,
+    0x212, 0x3A82,
+    0x213, 0x3AC2,
+    0x214, 0x3B02,
+    0x215, 0x3B42,
+    0x216, 0x3B82,
+    0x217, 0x3BC2,
+    0x218, 0x3C02,
+    0x219, 0x3C42,
+    0x21A, 0x3C82,
+    0x21B, 0x3CC2,
+    0x21E, 0x3D02,
+    0x21F, 0x3D42,
+    0x226, 0x3D82,
+    0x227, 0x3DC2,
+    0x228, 0x3E02,
+    0x229, 0x3E42,
+    0x22A, 0x3E83,
+    0x22B, 0x3EE3,
+    0x22C, 0x3F43,
+    0x22D, 0x3FA3,
+    0x22E, 0x4002,
+    0x22F, 0x4042,
+    0x230, 0x4083,
+    0x231, 0x40E3,
+    0x232, 0x4142,
+    0x233, 0x4182,
+    0x340, 0x41C1,
+    0x341, 0x41E1,
+    0x343, 0x4201,
+    0x344, 0x4222,
+    0x374, 0x4261,
+    0x37E, 0x4281,
+    0x385, 0x42A2,
+    0x386, 0x42E2,
+    0x387, 0x4321,
+    0x388, 0x4342,
+    0x389, 0x4382,
+    0x38A, 0x43C2,
+    0x38C, 0x4402,
+    0x38E, 0x4442,
+    0x38F, 0x4482,
+    0x390, 0x44C3,
+    0x3AA, 0x4522,
+    0x3AB, 0x4562,
+    0x3AC, 0x45A2,
+    0x3AD, 0x45E2,
+    0x3AE, 0x4622,
+    0x3AF, 0x4662,
+    0x3B0, 0x46A3,
+    0x3CA, 0x4702,
+    0x3CB, 0x4742,
+    0x3CC, 0x4782,
+    0x3CD, 0x47C2,
+    0x3CE, 0x4802,
+    0x3D3, 0x4842,
+    0x3D4, 0x4882,
+    0x400, 0x48C2,
+    0x401, 0x4902,
+    0x403, 0x4942,
+    0x407, 0x4982,
+    0x40C, 0x49C2,
+    0x40D, 0x4A02,
+    0x40E, 0x4A42,
+    0x419, 0x4A82,
+    0x439, 0x4AC2,
+    0x450, 0x4B02,
+    0x451, 0x4B42,
+    0x453, 0x4B82,
+    0x457, 0x4BC2,
+    0x45C, 0x4C02,
+    0x45D, 0x4C42,
+    0x45E, 0x4C82,
+    0x476, 0x4CC2,
+    0x477, 0x4D02,
+    0x4C1, 0x4D42,
+    0x4C2, 0x4D82,
+    0x4D0, 0x4DC2,
+    0x4D1, 0x4E02,
+    0x4D2, 0x4E42,
+    0x4D3, 0x4E82,
+    0x4D6, 0x4EC2,
+    0x4D7, 0x4F02,
+    0x4DA, 0x4F42,
+    0x4DB, 0x4F82,
+    0x4DC, 0x4FC2,
+    0x4DD, 0x5002,
+    0x4DE, 0x5042,
+    0x4DF, 0x5082,
+    0x4E2, 0x50C2,
+    0x4E3, 0x5102,
+    0x4E4, 0x5142,
+    0x4E5, 0x5182,
+    0x4E6, 0x51C2,
+    0x4E7, 0x5202,
+    0x4EA, 0x5242,
+    0x4EB, 0x5282,
+    0x4EC, 0x52C2,
+    0x4ED, 0x5302,
+    0x4EE, 0x5342,
+    0x4EF, 0x5382,
+    0x4F0, 0x53C2,
+    0x4F1, 0x5402,
+    0x4F2, 0x5442,
+    0x4F3, 0x5482,
+    0x4F4, 0x54C2,
+    0x4F5, 0x5502,
+    0x4F8, 0x5542,
+    0x4F9, 0x5582,
+    0x622, 0x55C2,
+    0x623, 0x5602,
+    0x624, 0x5642,
+    0x625, 0x5682,
+    0x626, 0x56C2,
+    0x6C0, 0x5702,
+    0x6C2, 0x5742,
+    0x6D3, 0x5782,
+    0x929, 0x57C2,
+    0x931, 0x5802,
+    0x934, 0x5842,
+    0x958, 0x5882,
+    0x959, 0x58C2,
+    0x95A, 0x5902,
+    0x95B, 0x5942,
+    0x95C, 0x5982,
+    0x95D, 0x59C2,
+    0x95E, 0x5A02,
+    0x95F, 0x5A42,
+    0x9CB, 0x5A82,
+    0x9CC, 0x5AC2,
+    0x9DC, 0x5B02,
+    0x9DD, 0x5B42,
+    0x9DF, 0x5B82,
+    0xA33, 0x5BC2,
+    0xA36, 0x5C02,
+    0xA59, 0x5C42,
+    0xA5A, 0x5C82,
+    0xA5B, 0x5CC2,
+    0xA5E, 0x5D02,
+    0xB48, 0x5D42,
+    0xB4B, 0x5D82,
+    0xB4C, 0x5DC2,
+    0xB5C, 0x5E02,
+    0xB5D, 0x5E42,
+    0xB94, 0x5E82,
+    0xBCA, 0x5EC2,
+    0xBCB, 0x5F02,
+    0xBCC, 0x5F42,
+    0xC48, 0x5F82,
+    0xCC0, 0x5FC2,
+    0xCC7, 0x6002,
+    0xCC8, 0x6042,
+    0xCCA, 0x6082,
+    0xCCB, 0x60C3,
+    0xD4A, 0x6122,
+    0xD4B, 0x6162,
+    0xD4C, 0x61A2,
+    0xDDA, 0x61E2,
+    0xDDC, 0x6222,
+    0xDDD, 0x6263,
+    0xDDE, 0x62C2,
+    0xF43, 0x6302,
+    0xF4D, 0x6342,
+    0xF52, 0x6382,
+    0xF57, 0x63C2,
+    0xF5C, 0x6402,
+    0xF69, 0x6442,
+    0xF73, 0x6482,
+    0xF75, 0x64C2,
+    0xF76, 0x6502,
+    0xF78, 0x6542,
+    0xF81, 0x6582,
+    0xF93, 0x65C2,
+    0xF9D, 0x6602,
+    0xFA2, 0x6642,
+    0xFA7, 0x6682,
+    0xFAC, 0x66C2,
+    0xFB9, 0x6702,
+    0x1026, 0x6742,
+    0x1B06, 0x6782,
+    0x1B08, 0x67C2,
+    0x1B0A, 0x6802,
+    0x1B0C, 0x6842,
+    0x1B0E, 0x6882,
+    0x1B12, 0x68C2,
+    0x1B3B, 0x6902,
+    0x1B3D, 0x6942,
+    0x1B40, 0x6982,
+    0x1B41, 0x69C2,
+    0x1B43, 0x6A02,
+    0x1E00, 0x6A42,
+    0x1E01, 0x6A82,
+    0x1E02, 0x6AC2,
+    0x1E03, 0x6B02,
+    0x1E04, 0x6B42,
+    0x1E05, 0x6B82,
+    0x1E06, 0x6BC2,
+    0x1E07, 0x6C02,
+    0x1E08, 0x6C43,
+    0x1E09, 0x6CA3,
+    0x1E0A, 0x6D02,
+    0x1E0B, 0x6D42,
+    0x1E0C, 0x6D82,
+    0x1E0D, 0x6DC2,
+    0x1E0E, 0x6E02,
+    0x1E0F, 0x6E42,
+    0x1E10, 0x6E82,
+    0x1E11, 0x6EC2,
+    0x1E12, 0x6F02,
+    0x1E13, 0x6F42,
+    0x1E14, 0x6F83,
+    0x1E15, 0x6FE3,
+    0x1E16, 0x7043,
+    0x1E17, 0x70A3,
+    0x1E18, 0x7102,
+    0x1E19, 0x7142,
+    0x1E1A, 0x7182,
+    0x1E1B, 0x71C2,
+    0x1E1C, 0x7203,
+    0x1E1D, 0x7263,
+    0x1E1E, 0x72C2,
+    0x1E1F, 0x7302,
+    0x1E20, 0x7342,
+    0x1E21, 0x7382,
+    0x1E22, 0x73C2,
+    0x1E23, 0x7402,
+    0x1E24, 0x7442,
+    0x1E25, 0x7482,
+    0x1E26, 0x74C2,
+    0x1E27, 0x7502,
+    0x1E28, 0x7542,
+    0x1E29, 0x7582,
+    0x1E2A, 0x75C2,
+    0x1E2B, 0x7602,
+    0x1E2C, 0x7642,
+    0x1E2D, 0x7682,
+    0x1E2E, 0x76C3,
+    0x1E2F, 0x7723,
+    0x1E30, 0x7782,
+    0x1E31, 0x77C2,
+    0x1E32, 0x7802,
+    0x1E33, 0x7842,
+    0x1E34, 0x7882,
+    0x1E35, 0x78C2,
+    0x1E36, 0x7902,
+    0x1E37, 0x7942,
+    0x1E38, 0x7983,
+    0x1E39, 0x79E3,
+    0x1E3A, 0x7A42,
+    0x1E3B, 0x7A82,
+    0x1E3C, 0x7AC2,
+    0x1E3D, 0x7B02,
+    0x1E3E, 0x7B42,
+    0x1E3F, 0x7B82,
+    0x1E40, 0x7BC2,
+    0x1E41, 0x7C02,
+    0x1E42, 0x7C42,
+    0x1E43, 0x7C82,
+    0x1E44, 0x7CC2,
+    0x1E45, 0x7D02,
+    0x1E46, 0x7D42,
+    0x1E47, 0x7D82,
+    0x1E48, 0x7DC2,
+    0x1E49, 0x7E02,
+    0x1E4A, 0x7E42,
+    0x1E4B, 0x7E82,
+    0x1E4C, 0x7EC3,
+    0x1E4D, 0x7F23,
+    0x1E4E, 0x7F83,
+    0x1E4F, 0x7FE3,
+    0x1E50, 0x8043,
+    0x1E51, 0x80A3,
+    0x1E52, 0x8103,
+    0x1E53, 0x8163,
+    0x1E54, 0x81C2,
+    0x1E55, 0x8202,
+    0x1E56, 0x8242,
+    0x1E57, 0x8282,
+    0x1E58, 0x82C2,
+    0x1E59, 0x8302,
+    0x1E5A, 0x8342,
+    0x1E5B, 0x8382,
+    0x1E5C, 0x83C3,
+    0x1E5D, 0x8423,
+    0x1E5E, 0x8482,
+    0x1E5F, 0x84C2,
+    0x1E60, 0x8502,
+    0x1E61, 0x8542,
+    0x1E62, 0x8582,
+    0x1E63, 0x85C2,
+    0x1E64, 0x8603,
+    0x1E65, 0x8663,
+    0x1E66, 0x86C3,
+    0x1E67, 0x8723,
+    0x1E68, 0x8783,
+    0x1E69, 0x87E3,
+    0x1E6A, 0x8842,
+    0x1E6B, 0x8882,
+    0x1E6C, 0x88C2,
+    0x1E6D, 0x8902,
+    0x1E6E, 0x8942,
+    0x1E6F, 0x8982,
+    0x1E70, 0x89C2,
+    0x1E71, 0x8A02,
+    0x1E72, 0x8A42,
+    0x1E73, 0x8A82,
+    0x1E74, 0x8AC2,
+    0x1E75, 0x8B02,
+    0x1E76, 0x8B42,
+    0x1E77, 0x8B82,
+    0x1E78, 0x8BC3,
+    0x1E79, 0x8C23,
+    0x1E7A, 0x8C83,
+    0x1E7B, 0x8CE3,
+    0x1E7C, 0x8D42,
+    0x1E7D, 0x8D82,
+    0x1E7E, 0x8DC2,
+    0x1E7F, 0x8E02,
+    0x1E80, 0x8E42,
+    0x1E81, 0x8E82,
+    0x1E82, 0x8EC2,
+    0x1E83, 0x8F02,
+    0x1E84, 0x8F42,
+    0x1E85, 0x8F82,
+    0x1E86, 0x8FC2,
+    0x1E87, 0x9002,
+    0x1E88, 0x9042,
+    0x1E89, 0x9082,
+    0x1E8A, 0x90C2,
+    0x1E8B, 0x9102,
+    0x1E8C, 0x9142,
+    0x1E8D, 0x9182,
+    0x1E8E, 0x91C2,
+    0x1E8F, 0x9202,
+    0x1E90, 0x9242,
+    0x1E91, 0x9282,
+    0x1E92, 0x92C2,
+    0x1E93, 0x9302,
+    0x1E94, 0x9342,
+    0x1E95, 0x9382,
+    0x1E96, 0x93C2,
+    0x1E97, 0x9402,
+    0x1E98, 0x9442,
+    0x1E99, 0x9482,
+    0x1E9B, 0x94C2,
+    0x1EA0, 0x9502,
+    0x1EA1, 0x9542,
+    0x1EA2, 0x9582,
+    0x1EA3, 0x95C2,
+    0x1EA4, 0x9603,
+    0x1EA5, 0x9663,
+    0x1EA6, 0x96C3,
+    0x1EA7, 0x9723,
+    0x1EA8, 0x9783,
+    0x1EA9, 0x97E3,
+    0x1EAA, 0x9843,
+    0x1EAB, 0x98A3,
+    0x1EAC, 0x9903,
+    0x1EAD, 0x9963,
+    0x1EAE, 0x99C3,
+    0x1EAF, 0x9A23,
+    0x1EB0, 0x9A83,
+    0x1EB1, 0x9AE3,
+    0x1EB2, 0x9B43,
+    0x1EB3, 0x9BA3,
+    0x1EB4, 0x9C03,
+    0x1EB5, 0x9C63,
+    0x1EB6, 0x9CC3,
+    0x1EB7, 0x9D23,
+    0x1EB8, 0x9D82,
+    0x1EB9, 0x9DC2,
+    0x1EBA, 0x9E02,
+    0x1EBB, 0x9E42,
+    0x1EBC, 0x9E82,
+    0x1EBD, 0x9EC2,
+    0x1EBE, 0x9F03,
+    0x1EBF, 0x9F63,
+    0x1EC0, 0x9FC3,
+    0x1EC1, 0xA023,
+    0x1EC2, 0xA083,
+    0x1EC3, 0xA0E3,
+    0x1EC4, 0xA143,
+    0x1EC5, 0xA1A3,
+    0x1EC6, 0xA203,
+    0x1EC7, 0xA263,
+    0x1EC8, 0xA2C2,
+    0x1EC9, 0xA302,
+    0x1ECA, 0xA342,
+    0x1ECB, 0xA382,
+    0x1ECC, 0xA3C2,
+    0x1ECD, 0xA402,
+    0x1ECE, 0xA442,
+    0x1ECF, 0xA482,
+    0x1ED0, 0xA4C3,
+    0x1ED1, 0xA523,
+    0x1ED2, 0xA583,
+    0x1ED3, 0xA5E3,
+    0x1ED4, 0xA643,
+    0x1ED5, 0xA6A3,
+    0x1ED6, 0xA703,
+    0x1ED7, 0xA763,
+    0x1ED8, 0xA7C3,
+    0x1ED9, 0xA823,
+    0x1EDA, 0xA883,
+    0x1EDB, 0xA8E3,
+    0x1EDC, 0xA943,
+    0x1EDD, 0xA9A3,
+    0x1EDE, 0xAA03,
+    0x1EDF, 0xAA63,
+    0x1EE0, 0xAAC3,
+    0x1EE1, 0xAB23,
+    0x1EE2, 0xAB83,
+    0x1EE3, 0xABE3,
+    0x1EE4, 0xAC42,
+    0x1EE5, 0xAC82,
+    0x1EE6, 0xACC2,
+    0x1EE7, 0xAD02,
+    0x1EE8, 0xAD43,
+    0x1EE9, 0xADA3,
+    0x1EEA, 0xAE03,
+    0x1EEB, 0xAE63,
+    0x1EEC, 0xAEC3,
+    0x1EED, 0xAF23,
+    0x1EEE, 0xAF83,
+    0x1EEF, 0xAFE3,
+    0x1EF0, 0xB043,
+    0x1EF1, 0xB0A3,
+    0x1EF2, 0xB102,
+    0x1EF3, 0xB142,
+    0x1EF4, 0xB182,
+    0x1EF5, 0xB1C2,
+    0x1EF6, 0xB202,
+    0x1EF7, 0xB242,
+    0x1EF8, 0xB282,
+    0x1EF9, 0xB2C2,
+    0x1F00, 0xB302,
+    0x1F01, 0xB342,
+    0x1F02, 0xB383,
+    0x1F03, 0xB3E3,
+    0x1F04, 0xB443,
+    0x1F05, 0xB4A3,
+    0x1F06, 0xB503,
+    0x1F07, 0xB563,
+    0x1F08, 0xB5C2,
+    0x1F09, 0xB602,
+    0x1F0A, 0xB643,
+    0x1F0B, 0xB6A3,
+    0x1F0C, 0xB703,
+    0x1F0D, 0xB763,
+    0x1F0E, 0xB7C3,
+    0x1F0F, 0xB823,
+    0x1F10, 0xB882,
+    0x1F11, 0xB8C2,
+    0x1F12, 0xB903,
+    0x1F13, 0xB963,
+    0x1F14, 0xB9C3,
+    0x1F15, 0xBA23,
+    0x1F18, 0xBA82,
+    0x1F19, 0xBAC2,
+    0x1F1A, 0xBB03,
+    0x1F1B, 0xBB63,
+    0x1F1C, 0xBBC3,
+    0x1F1D, 0xBC23,
+    0x1F20, 0xBC82,
+    0x1F21, 0xBCC2,
+    0x1F22, 0xBD03,
+    0x1F23, 0xBD63,
+    0x1F24, 0xBDC3,
+    0x1F25, 0xBE23,
+    0x1F26, 0xBE83,
+    0x1F27, 0xBEE3,
+    0x1F28, 0xBF42,
+    0x1F29, 0xBF82,
+    0x1F2A, 0xBFC3,
+    0x1F2B, 0xC023,
+    0x1F2C, 0xC083,
+    0x1F2D, 0xC0E3,
+    0x1F2E, 0xC143,
+    0x1F2F, 0xC1A3,
+    0x1F30, 0xC202,
+    0x1F31, 0xC242,
+    0x1F32, 0xC283,
+    0x1F33, 0xC2E3,
+    0x1F34, 0xC343,
+    0x1F35, 0xC3A3,
+    0x1F36, 0xC403,
+    0x1F37, 0xC463,
+    0x1F38, 0xC4C2,
+    0x1F39, 0xC502,
+    0x1F3A, 0xC543,
+    0x1F3B, 0xC5A3,
+    0x1F3C, 0xC603,
+    0x1F3D, 0xC663,
+    0x1F3E, 0xC6C3,
+    0x1F3F, 0xC723,
+    0x1F40, 0xC782,
+    0x1F41, 0xC7C2,
+    0x1F42, 0xC803,
+    0x1F43, 0xC863,
+    0x1F44, 0xC8C3,
+    0x1F45, 0xC923,
+    0x1F48, 0xC982,
+    0x1F49, 0xC9C2,
+    0x1F4A, 0xCA03,
+    0x1F4B, 0xCA63,
+    0x1F4C, 0xCAC3,
+    0x1F4D, 0xCB23,
+    0x1F50, 0xCB82,
+    0x1F51, 0xCBC2,
+    0x1F52, 0xCC03,
+    0x1F53, 0xCC63,
+    0x1F54, 0xCCC3,
+    0x1F55, 0xCD23,
+    0x1F56, 0xCD83,
+    0x1F57, 0xCDE3,
+    0x1F59, 0xCE42,
+    0x1F5B, 0xCE83,
+    0x1F5D, 0xCEE3,
+    0x1F5F, 0xCF43,
+    0x1F60, 0xCFA2,
+    0x1F61, 0xCFE2,
+    0x1F62, 0xD023,
+    0x1F63, 0xD083,
+    0x1F64, 0xD0E3,
+    0x1F65, 0xD143,
+    0x1F66, 0xD1A3,
+    0x1F67, 0xD203,
+    0x1F68, 0xD262,
+    0x1F69, 0xD2A2,
+    0x1F6A, 0xD2E3,
+    0x1F6B, 0xD343,
+    0x1F6C, 0xD3A3,
+    0x1F6D, 0xD403,
+    0x1F6E, 0xD463,
+    0x1F6F, 0xD4C3,
+    0x1F70, 0xD522,
+    0x1F71, 0xD562,
+    0x1F72, 0xD5A2,
+    0x1F73, 0xD5E2,
+    0x1F74, 0xD622,
+    0x1F75, 0xD662,
+    0x1F76, 0xD6A2,
+    0x1F77, 0xD6E2,
+    0x1F78, 0xD722,
+    0x1F79, 0xD762,
+    0x1F7A, 0xD7A2,
+    0x1F7B, 0xD7E2,
+    0x1F7C, 0xD822,
+    0x1F7D, 0xD862,
+    0x1F80, 0xD8A3,
+    0x1F81, 0xD903,
+    0x1F82, 0xD964,
+    0x1F83, 0xD9E4,
+    0x1F84, 0xDA64,
+    0x1F85, 0xDAE4,
+    0x1F86, 0xDB64,
+    0x1F87, 0xDBE4,
+    0x1F88, 0xDC63,
+    0x1F89, 0xDCC3,
+    0x1F8A, 0xDD24,
+    0x1F8B, 0xDDA4,
+    0x1F8C, 0xDE24,
+    0x1F8D, 0xDEA4,
+    0x1F8E, 0xDF24,
+    0x1F8F, 0xDFA4,
+    0x1F90, 0xE023,
+    0x1F91, 0xE083,
+    0x1F92, 0xE0E4,
+    0x1F93, 0xE164,
+    0x1F94, 0xE1E4,
+    0x1F95, 0xE264,
+    0x1F96, 0xE2E4,
+    0x1F97, 0xE364,
+    0x1F98, 0xE3E3,
+    0x1F99, 0xE443,
+    0x1F9A, 0xE4A4,
+    0x1F9B, 0xE524,
+    0x1F9C, 0xE5A4,
+    0x1F9D, 0xE624,
+    0x1F9E, 0xE6A4,
+    0x1F9F, 0xE724,
+    0x1FA0, 0xE7A3,
+    0x1FA1, 0xE803,
+    0x1FA2, 0xE864,
+    0x1FA3, 0xE8E4,
+    0x1FA4, 0xE964,
+    0x1FA5, 0xE9E4,
+    0x1FA6, 0xEA64,
+    0x1FA7, 0xEAE4,
+    0x1FA8, 0xEB63,
+    0x1FA9, 0xEBC3,
+    0x1FAA, 0xEC24,
+    0x1FAB, 0xECA4,
+    0x1FAC, 0xED24,
+    0x1FAD, 0xEDA4,
+    0x1FAE, 0xEE24,
+    0x1FAF, 0xEEA4,
+    0x1FB0, 0xEF22,
+    0x1FB1, 0xEF62,
+    0x1FB2, 0xEFA3,
+    0x1FB3, 0xF002,
+    0x1FB4, 0xF043,
+    0x1FB6, 0xF0A2,
+    0x1FB7, 0xF0E3,
+    0x1FB8, 0xF142,
+    0x1FB9, 0xF182,
+    0x1FBA, 0xF1C2,
+    0x1FBB, 0xF202,
+    0x1FBC, 0xF242,
+    0x1FBE, 0xF281,
+    0x1FC1, 0xF2A2,
+    0x1FC2, 0xF2E3,
+    0x1FC3, 0xF342,
+    0x1FC4, 0xF383,
+    0x1FC6, 0xF3E2,
+    0x1FC7, 0xF423,
+    0x1FC8, 0xF482,
+    0x1FC9, 0xF4C2,
+    0x1FCA, 0xF502,
+    0x1FCB, 0xF542,
+    0x1FCC, 0xF582,
+    0x1FCD, 0xF5C2,
+    0x1FCE, 0xF602,
+    0x1FCF, 0xF642,
+    0x1FD0, 0xF682,
+    0x1FD1, 0xF6C2,
+    0x1FD2, 0xF703,
+    0x1FD3, 0xF763,
+    0x1FD6, 0xF7C2,
+    0x1FD7, 0xF803,
+    0x1FD8, 0xF862,
+    0x1FD9, 0xF8A2,
+    0x1FDA, 0xF8E2,
+    0x1FDB, 0xF922,
+    0x1FDD, 0xF962,
+    0x1FDE, 0xF9A2,
+    0x1FDF, 0xF9E2,
+    0x1FE0, 0xFA22,
+    0x1FE1, 0xFA62,
+    0x1FE2, 0xFAA3,
+    0x1FE3, 0xFB03,
+    0x1FE4, 0xFB62,
+    0x1FE5, 0xFBA2,
+    0x1FE6, 0xFBE2,
+    0x1FE7, 0xFC23,
+    0x1FE8, 0xFC82,
+    0x1FE9, 0xFCC2,
+    0x1FEA, 0xFD02,
+    0x1FEB, 0xFD42,
+    0x1FEC, 0xFD82,
+    0x1FED, 0xFDC2,
+    0x1FEE, 0xFE02,
+    0x1FEF, 0xFE41,
+    0x1FF2, 0xFE63,
+    0x1FF3, 0xFEC2,
+    0x1FF4, 0xFF03,
+    0x1FF6, 0xFF62,
+    0x1FF7, 0xFFA3,
+    0x1FF8, 0x10002,
+    0x1FF9, 0x10042,
+    0x1FFA, 0x10082,
+    0x1FFB, 0x100C2,
+    0x1FFC, 0x10102,
+    0x1FFD, 0x10141,
+    0x2000, 0x10161,
+    0x2001, 0x10181,
+    0x2126, 0x101A1,
+    0x212A, 0x101C1,
+    0x212B, 0x101E2,
+    0x219A, 0x10222,
+    0x219B, 0x10262,
+    0x21AE, 0x102A2,
+    0x21CD, 0x102E2,
+    0x21CE, 0x10322,
+    0x21CF, 0x10362,
+    0x2204, 0x103A2,
+    0x2209, 0x103E2,
+    0x220C, 0x10422,
+    0x2224, 0x10462,
+    0x2226, 0x104A2,
+    0x2241, 0x104E2,
+    0x2244, 0x10522,
+    0x2247, 0x10562,
+    0x2249, 0x105A2,
+    0x2260, 0x105E2,
+    0x2262, 0x10622,
+    0x226D, 0x10662,
+    0x226E, 0x106A2,
+    0x226F, 0x106E2,
+    0x2270, 0x10722,
+    0x2271, 0x10762,
+    0x2274, 0x107A2,
+    0x2275, 0x107E2,
+    0x2278, 0x10822,
+    0x2279, 0x10862,
+    0x2280, 0x108A2,
+    0x2281, 0x108E2,
+    0x2284, 0x10922,
+    0x2285, 0x10962,
+    0x2288, 0x109A2,
+    0x2289, 0x109E2,
+    0x22AC, 0x10A22,
+    0x22AD, 0x10A62,
+    0x22AE, 0x10AA2,
+    0x22AF, 0x10AE2,
+    0x22E0, 0x10B22,
+    0x22E1, 0x10B62,
+    0x22E2, 0x10BA2,
+    0x22E3, 0x10BE2,
+    0x22EA, 0x10C22,
+    0x22EB, 0x10C62,
+    0x22EC, 0x10CA2,
+    0x22ED, 0x10CE2,
+    0x2329, 0x10D21,
+    0x232A, 0x10D41,
+    0x2ADC, 0x10D62,
+    0x304C, 0x10DA2,
+    0x304E, 0x10DE2,
+    0x3050, 0x10E22,
+    0x3052, 0x10E62,
+    0x3054, 0x10EA2,
+    0x3056, 0x10EE2,
+    0x3058, 0x10F22,
+    0x305A, 0x10F62,
+    0x305C, 0x10FA2,
+    0x305E, 0x10FE2,
+    0x3060, 0x11022,
+    0x3062, 0x11062,
+    0x3065, 0x110A2,
+    0x3067, 0x110E2,
+    0x3069, 0x11122,
+    0x3070, 0x11162,
+    0x3071, 0x111A2,
+    0x3073, 0x111E2,
+    0x3074, 0x11222,
+    0x3076, 0x11262,
+    0x3077, 0x112A2,
+    0x3079, 0x112E2,
+    0x307A, 0x11322,
+    0x307C, 0x11362,
+    0x307D, 0x113A2,
+    0x3094, 0x113E2,
+    0x309E, 0x11422,
+    0x30AC, 0x11462,
+    0x30AE, 0x114A2,
+    0x30B0, 0x114E2,
+    0x30B2, 0x11522,
+    0x30B4, 0x11562,
+    0x30B6, 0x115A2,
+    0x30B8, 0x115E2,
+    0x30BA, 0x11622,
+    0x30BC, 0x11662,
+    0x30BE, 0x116A2,
+    0x30C0, 0x116E2,
+    0x30C2, 0x11722,
+    0x30C5, 0x11762,
+    0x30C7, 0x117A2,
+    0x30C9, 0x117E2,
+    0x30D0, 0x11822,
+    0x30D1, 0x11862,
+    0x30D3, 0x118A2,
+    0x30D4, 0x118E2,
+    0x30D6, 0x11922,
+    0x30D7, 0x11962,
+    0x30D9, 0x119A2,
+    0x30DA, 0x119E2,
+    0x30DC, 0x11A22,
+    0x30DD, 0x11A62,
+    0x30F4, 0x11AA2,
+    0x30F7, 0x11AE2,
+    0x30F8, 0x11B22,
+    0x30F9, 0x11B62,
+    0x30FA, 0x11BA2,
+    0x30FE, 0x11BE2,
+    0xF900, 0x11C21,
+    0xF901, 0x11C41,
+    0xF902, 0x11C61,
+    0xF903, 0x11C81,
+    0xF904, 0x11CA1,
+    0xF905, 0x11CC1,
+    0xF906, 0x11CE1,
+    0xF907, 0x11D01,
+    0xF908, 0x11D21,
+    0xF909, 0x11D41,
+    0xF90A, 0x11D61,
+    0xF90B, 0x11D81,
+    0xF90C, 0x11DA1,
+    0xF90D, 0x11DC1,
+    0xF90E, 0x11DE1,
+    0xF90F, 0x11E01,
+    0xF910, 0x11E21,
+    0xF911, 0x11E41,
+    0xF912, 0x11E61,
+    0xF913, 0x11E81,
+    0xF914, 0x11EA1,
+    0xF915, 0x11EC1,
+    0xF916, 0x11EE1,
+    0xF917, 0x11F01,
+    0xF918, 0x11F21,
+    0xF919, 0x11F41,
+    0xF91A, 0x11F61,
+    0xF91B, 0x11F81,
+    0xF91C, 0x11FA1,
+    0xF91D, 0x11FC1,
+    0xF91E, 0x11FE1,
+    0xF91F, 0x12001,
+    0xF920, 0x12021,
+    0xF921, 0x12041,
+    0xF922, 0x12061,
+    0xF923, 0x12081,
+    0xF924, 0x120A1,
+    0xF925, 0x120C1,
+    0xF926, 0x120E1,
+    0xF927, 0x12101,
+    0xF928, 0x12121,
+    0xF929, 0x12141,
+    0xF92A, 0x12161,
+    0xF92B, 0x12181,
+    0xF92C, 0x121A1,
+    0xF92D, 0x121C1,
+    0xF92E, 0x121E1,
+    0xF92F, 0x12201,
+    0xF930, 0x12221,
+    0xF931, 0x12241,
+    0xF932, 0x12261,
+    0xF933, 0x12281,
+    0xF934, 0x122A1,
+    0xF935, 0x122C1,
+    0xF936, 0x122E1,
+    0xF937, 0x12301,
+    0xF938, 0x12321,
+    0xF939, 0x12341,
+    0xF93A, 0x12361,
+    0xF93B, 0x12381,
+    0xF93C, 0x123A1,
+    0xF93D, 0x123C1,
+    0xF93E, 0x123E1,
+    0xF93F, 0x12401,
+    0xF940, 0x12421,
+    0xF941, 0x12441,
+    0xF942, 0x12461,
+    0xF943, 0x12481,
+    0xF944, 0x124A1,
+    0xF945, 0x124C1,
+    0xF946, 0x124E1,
+    0xF947, 0x12501,
+    0xF948, 0x12521,
+    0xF949, 0x12541,
+    0xF94A, 0x12561,
+    0xF94B, 0x12581,
+    0xF94C, 0x125A1,
+    0xF94D, 0x125C1,
+    0xF94E, 0x125E1,
+    0xF94F, 0x12601,
+    0xF950, 0x12621,
+    0xF951, 0x12641,
+    0xF952, 0x12661,
+    0xF953, 0x12681,
+    0xF954, 0x126A1,
+    0xF955, 0x126C1,
+    0xF956, 0x126E1,
+    0xF957, 0x12701,
+    0xF958, 0x12721,
+    0xF959, 0x12741,
+    0xF95A, 0x12761,
+    0xF95B, 0x12781,
+    0xF95C, 0x127A1,
+    0xF95D, 0x127C1,
+    0xF95E, 0x127E1,
+    0xF95F, 0x12801,
+    0xF960, 0x12821,
+    0xF961, 0x12841,
+    0xF962, 0x12861,
+    0xF963, 0x12881,
+    0xF964, 0x128A1,
+    0xF965, 0x128C1,
+    0xF966, 0x128E1,
+    0xF967, 0x12901,
+    0xF968, 0x12921,
+    0xF969, 0x12941,
+    0xF96A, 0x12961,
+    0xF96B, 0x12981,
+    0xF96C, 0x129A1,
+    0xF96D, 0x129C1,
+    0xF96E, 0x129E1,
+    0xF96F, 0x12A01,
+    0xF970, 0x12A21,
+    0xF971, 0x12A41,
+    0xF972, 0x12A61,
+    0xF973, 0x12A81,
+    0xF974, 0x12AA1,
+    0xF975, 0x12AC1,
+    0xF976, 0x12AE1,
+    0xF977, 0x12B01,
+    0xF978, 0x12B21,
+    0xF979, 0x12B41,
+    0xF97A, 0x12B61,
+    0xF97B, 0x12B81,
+    0xF97C, 0x12BA1,
+    0xF97D, 0x12BC1,
+    0xF97E, 0x12BE1,
+    0xF97F, 0x12C01,
+    0xF980, 0x12C21,
+    0xF981, 0x12C41,
+    0xF982, 0x12C61,
+    0xF983, 0x12C81,
+    0xF984, 0x12CA1,
+    0xF985, 0x12CC1,
+    0xF986, 0x12CE1,
+    0xF987, 0x12D01,
+    0xF988, 0x12D21,
+    0xF989, 0x12D41,
+    0xF98A, 0x12D61,
+    0xF98B, 0x12D81,
+    0xF98C, 0x12DA1,
+    0xF98D, 0x12DC1,
+    0xF98E, 0x12DE1,
+    0xF98F, 0x12E01,
+    0xF990, 0x12E21,
+    0xF991, 0x12E41,
+    0xF992, 0x12E61,
+    0xF993, 0x12E81,
+    0xF994, 0x12EA1,
+    0xF995, 0x12EC1,
+    0xF996, 0x12EE1,
+    0xF997, 0x12F01,
+    0xF998, 0x12F21,
+    0xF999, 0x12F41,
+    0xF99A, 0x12F61,
+    0xF99B, 0x12F81,
+    0xF99C, 0x12FA1,
+    0xF99D, 0x12FC1,
+    0xF99E, 0x12FE1,
+    0xF99F, 0x13001,
+    0xF9A0, 0x13021,
+    0xF9A1, 0x13041,
+    0xF9A2, 0x13061,
+    0xF9A3, 0x13081,
+    0xF9A4, 0x130A1,
+    0xF9A5, 0x130C1,
+    0xF9A6, 0x130E1,
+    0xF9A7, 0x13101,
+    0xF9A8, 0x13121,
+    0xF9A9, 0x13141,
+    0xF9AA, 0x13161,
+    0xF9AB, 0x13181,
+    0xF9AC, 0x131A1,
+    0xF9AD, 0x131C1,
+    0xF9AE, 0x131E1,
+    0xF9AF, 0x13201,
+    0xF9B0, 0x13221,
+    0xF9B1, 0x13241,
+    0xF9B2, 0x13261,
+    0xF9B3, 0x13281,
+    0xF9B4, 0x132A1,
+    0xF9B5, 0x132C1,
+    0xF9B6, 0x132E1,
+    0xF9B7, 0x13301,
+    0xF9B8, 0x13321,
+    0xF9B9, 0x13341,
+    0xF9BA, 0x13361,
+    0xF9BB, 0x13381,
+    0xF9BC, 0x133A1,
+    0xF9BD, 0x133C1,
+    0xF9BE, 0x133E1,
+    0xF9BF, 0x13401,
+    0xF9C0, 0x13421,
+    0xF9C1, 0x13441,
+    0xF9C2, 0x13461,
+    0xF9C3, 0x13481,
+    0xF9C4, 0x134A1,
+    0xF9C5, 0x134C1,
+    0xF9C6, 0x134E1,
+    0xF9C7, 0x13501,
+    0xF9C8, 0x13521,
+    0xF9C9, 0x13541,
+    0xF9CA, 0x13561,
+    0xF9CB, 0x13581,
+    0xF9CC, 0x135A1,
+    0xF9CD, 0x135C1,
+    0xF9CE, 0x135E1,
+    0xF9CF, 0x13601,
+    0xF9D0, 0x13621,
+    0xF9D1, 0x13641,
+    0xF9D2, 0x13661,
+    0xF9D3, 0x13681,
+    0xF9D4, 0x136A1,
+    0xF9D5, 0x136C1,
+    0xF9D6, 0x136E1,
+    0xF9D7, 0x13701,
+    0xF9D8, 0x13721,
+    0xF9D9, 0x13741,
+    0xF9DA, 0x13761,
+    0xF9DB, 0x13781,
+    0xF9DC, 0x137A1,
+    0xF9DD, 0x137C1,
+    0xF9DE, 0x137E1,
+    0xF9DF, 0x13801,
+    0xF9E0, 0x13821,
+    0xF9E1, 0x13841,
+    0xF9E2, 0x13861,
+    0xF9E3, 0x13881,
+    0xF9E4, 0x138A1,
+    0xF9E5, 0x138C1,
+    0xF9E6, 0x138E1,
+    0xF9E7, 0x13901,
+    0xF9E8, 0x13921,
+    0xF9E9, 0x13941,
+    0xF9EA, 0x13961,
+    0xF9EB, 0x13981,
+    0xF9EC, 0x139A1,
+    0xF9ED, 0x139C1,
+    0xF9EE, 0x139E1,
+    0xF9EF, 0x13A01,
+    0xF9F0, 0x13A21,
+    0xF9F1, 0x13A41,
+    0xF9F2, 0x13A61,
+    0xF9F3, 0x13A81,
+    0xF9F4, 0x13AA1,
+    0xF9F5, 0x13AC1,
+    0xF9F6, 0x13AE1,
+    0xF9F7, 0x13B01,
+    0xF9F8, 0x13B21,
+    0xF9F9, 0x13B41,
+    0xF9FA, 0x13B61,
+    0xF9FB, 0x13B81,
+    0xF9FC, 0x13BA1,
+    0xF9FD, 0x13BC1,
+    0xF9FE, 0x13BE1,
+    0xF9FF, 0x13C01,
+    0xFA00, 0x13C21,
+    0xFA01, 0x13C41,
+    0xFA02, 0x13C61,
+    0xFA03, 0x13C81,
+    0xFA04, 0x13CA1,
+    0xFA05, 0x13CC1,
+    0xFA06, 0x13CE1,
+    0xFA07, 0x13D01,
+    0xFA08, 0x13D21,
+    0xFA09, 0x13D41,
+    0xFA0A, 0x13D61,
+    0xFA0B, 0x13D81,
+    0xFA0C, 0x13DA1,
+    0xFA0D, 0x13DC1,
+    0xFA10, 0x13DE1,
+    0xFA12, 0x13E01,
+    0xFA15, 0x13E21,
+    0xFA16, 0x13E41,
+    0xFA17, 0x13E61,
+    0xFA18, 0x13E81,
+    0xFA19, 0x13EA1,
+    0xFA1A, 0x13EC1,
+    0xFA1B, 0x13EE1,
+    0xFA1C, 0x13F01,
+    0xFA1D, 0x13F21,
+    0xFA1E, 0x13F41,
+    0xFA20, 0x13F61,
+    0xFA22, 0x13F81,
+    0xFA25, 0x13FA1,
+    0xFA26, 0x13FC1,
+    0xFA2A, 0x13FE1,
+    0xFA2B, 0x14001,
+    0xFA2C, 0x14021,
+    0xFA2D, 0x14041,
+    0xFA2E, 0x14061,
+    0xFA2F, 0x14081,
+    0xFA30, 0x140A1,
+    0xFA31, 0x140C1,
+    0xFA32, 0x140E1,
+    0xFA33, 0x14101,
+    0xFA34, 0x14121,
+    0xFA35, 0x14141,
+    0xFA36, 0x14161,
+    0xFA37, 0x14181,
+    0xFA38, 0x141A1,
+    0xFA39, 0x141C1,
+    0xFA3A, 0x141E1,
+    0xFA3B, 0x14201,
+    0xFA3C, 0x14221,
+    0xFA3D, 0x14241,
+    0xFA3E, 0x14261,
+    0xFA3F, 0x14281,
+    0xFA40, 0x142A1,
+    0xFA41, 0x142C1,
+    0xFA42, 0x142E1,
+    0xFA43, 0x14301,
+    0xFA44, 0x14321,
+    0xFA45, 0x14341,
+    0xFA46, 0x14361,
+    0xFA47, 0x14381,
+    0xFA48, 0x143A1,
+    0xFA49, 0x143C1,
+    0xFA4A, 0x143E1,
+    0xFA4B, 0x14401,
+    0xFA4C, 0x14421,
+    0xFA4D, 0x14441,
+    0xFA4E, 0x14461,
+    0xFA4F, 0x14481,
+    0xFA50, 0x144A1,
+    0xFA51, 0x144C1,
+    0xFA52, 0x144E1,
+    0xFA53, 0x14501,
+    0xFA54, 0x14521,
+    0xFA55, 0x14541,
+    0xFA56, 0x14561,
+    0xFA57, 0x14581,
+    0xFA58, 0x145A1,
+    0xFA59, 0x145C1,
+    0xFA5A, 0x145E1,
+    0xFA5B, 0x14601,
+    0xFA5C, 0x14621,
+    0xFA5D, 0x14641,
+    0xFA5E, 0x14661,
+    0xFA5F, 0x14681,
+    0xFA60, 0x146A1,
+    0xFA61, 0x146C1,
+    0xFA62, 0x146E1,
+    0xFA63, 0x14701,
+    0xFA64, 0x14721,
+    0xFA65, 0x14741,
+    0xFA66, 0x14761,
+    0xFA67, 0x14781,
+    0xFA68, 0x147A1,
+    0xFA69, 0x147C1,
+    0xFA6A, 0x147E1,
+    0xFA6B, 0x14801,
+    0xFA6C, 0x14822,
+    0xFA6D, 0x14861,
+    0xFA70, 0x14881,
+    0xFA71, 0x148A1,
+    0xFA72, 0x148C1,
+    0xFA73, 0x148E1,
+    0xFA74, 0x14901,
+    0xFA75, 0x14921,
+    0xFA76, 0x14941,
+    0xFA77, 0x14961,
+    0xFA78, 0x14981,
+    0xFA79, 0x149A1,
+    0xFA7A, 0x149C1,
+    0xFA7B, 0x149E1,
+    0xFA7C, 0x14A01,
+    0xFA7D, 0x14A21,
+    0xFA7E, 0x14A41,
+    0xFA7F, 0x14A61,
+    0xFA80, 0x14A81,
+    0xFA81, 0x14AA1,
+    0xFA82, 0x14AC1,
+    0xFA83, 0x14AE1,
+    0xFA84, 0x14B01,
+    0xFA85, 0x14B21,
+    0xFA86, 0x14B41,
+    0xFA87, 0x14B61,
+    0xFA88, 0x14B81,
+    0xFA89, 0x14BA1,
+    0xFA8A, 0x14BC1,
+    0xFA8B, 0x14BE1,
+    0xFA8C, 0x14C01,
+    0xFA8D, 0x14C21,
+    0xFA8E, 0x14C41,
+    0xFA8F, 0x14C61,
+    0xFA90, 0x14C81,
+    0xFA91, 0x14CA1,
+    0xFA92, 0x14CC1,
+    0xFA93, 0x14CE1,
+    0xFA94, 0x14D01,
+    0xFA95, 0x14D21,
+    0xFA96, 0x14D41,
+    0xFA97, 0x14D61,
+    0xFA98, 0x14D81,
+    0xFA99, 0x14DA1,
+    0xFA9A, 0x14DC1,
+    0xFA9B, 0x14DE1,
+    0xFA9C, 0x14E01,
+    0xFA9D, 0x14E21,
+    0xFA9E, 0x14E41,
+    0xFA9F, 0x14E61,
+    0xFAA0, 0x14E81,
+    0xFAA1, 0x14EA1,
+    0xFAA2, 0x14EC1,
+    0xFAA3, 0x14EE1,
+    0xFAA4, 0x14F01,
+    0xFAA5, 0x14F21,
+    0xFAA6, 0x14F41,
+    0xFAA7, 0x14F61,
+    0xFAA8, 0x14F81,
+    0xFAA9, 0x14FA1,
+    0xFAAA, 0x14FC1,
+    0xFAAB, 0x14FE1,
+    0xFAAC, 0x15001,
+    0xFAAD, 0x15021,
+    0xFAAE, 0x15041,
+    0xFAAF, 0x15061,
+    0xFAB0, 0x15081,
+    0xFAB1, 0x150A1,
+    0xFAB2, 0x150C1,
+    0xFAB3, 0x150E1,
+    0xFAB4, 0x15101,
+    0xFAB5, 0x15121,
+    0xFAB6, 0x15141,
+    0xFAB7, 0x15161,
+    0xFAB8, 0x15181,
+    0xFAB9, 0x151A1,
+    0xFABA, 0x151C1,
+    0xFABB, 0x151E1,
+    0xFABC, 0x15201,
+    0xFABD, 0x15221,
+    0xFABE, 0x15241,
+    0xFABF, 0x15261,
+    0xFAC0, 0x15281,
+    0xFAC1, 0x152A1,
+    0xFAC2, 0x152C1,
+    0xFAC3, 0x152E1,
+    0xFAC4, 0x15301,
+    0xFAC5, 0x15321,
+    0xFAC6, 0x15341,
+    0xFAC7, 0x15361,
+    0xFAC8, 0x15381,
+    0xFAC9, 0x153A1,
+    0xFACA, 0x153C1,
+    0xFACB, 0x153E1,
+    0xFACC, 0x15401,
+    0xFACD, 0x15421,
+    0xFACE, 0x15441,
+    0xFACF, 0x15462,
+    0xFAD0, 0x154A2,
+    0xFAD1, 0x154E2,
+    0xFAD2, 0x15521,
+    0xFAD3, 0x15541,
+    0xFAD4, 0x15561,
+    0xFAD5, 0x15582,
+    0xFAD6, 0x155C2,
+    0xFAD7, 0x15602,
+    0xFAD8, 0x15641,
+    0xFAD9, 0x15661,
+    0xFB1D, 0x15682,
+    0xFB1F, 0x156C2,
+    0xFB2A, 0x15702,
+    0xFB2B, 0x15742,
+    0xFB2C, 0x15783,
+    0xFB2D, 0x157E3,
+    0xFB2E, 0x15842,
+    0xFB2F, 0x15882,
+    0xFB30, 0x158C2,
+    0xFB31, 0x15902,
+    0xFB32, 0x15942,
+    0xFB33, 0x15982,
+    0xFB34, 0x159C2,
+    0xFB35, 0x15A02,
+    0xFB36, 0x15A42,
+    0xFB38, 0x15A82,
+    0xFB39, 0x15AC2,
+    0xFB3A, 0x15B02,
+    0xFB3B, 0x15B42,
+    0xFB3C, 0x15B82,
+    0xFB3E, 0x15BC2,
+    0xFB40, 0x15C02,
+    0xFB41, 0x15C42,
+    0xFB43, 0x15C82,
+    0xFB44, 0x15CC2,
+    0xFB46, 0x15D02,
+    0xFB47, 0x15D42,
+    0xFB48, 0x15D82,
+    0xFB49, 0x15DC2,
+    0xFB4A, 0x15E02,
+    0xFB4B, 0x15E42,
+    0xFB4C, 0x15E82,
+    0xFB4D, 0x15EC2,
+    0xFB4E, 0x15F02,
+    0x105C9, 0x15F43,
+    0x105E4, 0x15FA3,
+    0x1109A, 0x16004,
+    0x1109C, 0x16084,
+    0x110AB, 0x16104,
+    0x1112E, 0x16184,
+    0x1112F, 0x16204,
+    0x1134B, 0x16284,
+    0x1134C, 0x16304,
+    0x11383, 0x16384,
+    0x11385, 0x16404,
+    0x1138E, 0x16484,
+    0x11391, 0x16504,
+    0x113C5, 0x16584,
+    0x113C7, 0x16604,
+    0x113C8, 0x16684,
+    0x114BB, 0x16704,
+    0x114BC, 0x16784,
+    0x114BE, 0x16804,
+    0x115BA, 0x16884,
+    0x115BB, 0x16904,
+    0x11938, 0x16984,
+    0x16121, 0x16A04,
+    0x16122, 0x16A84,
+    0x16123, 0x16B04,
+    0x16124, 0x16B84,
+    0x16125, 0x16C04,
+    0x16126, 0x16C86,
+    0x16127, 0x16D46,
+    0x16128, 0x16E06,
+    0x16D68, 0x16EC4,
+    0x16D69, 0x16F44,
+    0x16D6A, 0x16FC6,
+    0x1D15E, 0x17084,
+    0x1D15F, 0x17104,
+    0x1D160, 0x17186,
+    0x1D161, 0x17246,
+    0x1D162, 0x17306,
+    0x1D163, 0x173C6,
+    0x1D164, 0x17486,
+    0x1D1BB, 0x17544,
+    0x1D1BC, 0x175C4,
+    0x1D1BD, 0x17646,
+    0x1D1BE, 0x17706,
+    0x1D1BF, 0x177C6,
+    0x1D1C0, 0x17886,
+    0x2F800, 0x17941,
+    0x2F801, 0x17961,
+    0x2F802, 0x17981,
+    0x2F803, 0x179A2,
+    0x2F804, 0x179E1,
+    0x2F805, 0x17A01,
+    0x2F806, 0x17A21,
+    0x2F807, 0x17A41,
+    0x2F808, 0x17A61,
+    0x2F809, 0x17A81,
+    0x2F80A, 0x17AA1,
+    0x2F80B, 0x17AC1,
+    0x2F80C, 0x17AE1,
+    0x2F80D, 0x17B02,
+    0x2F80E, 0x17B41,
+    0x2F80F, 0x17B61,
+    0x2F810, 0x17B81,
+    0x2F811, 0x17BA1,
+    0x2F812, 0x17BC2,
+    0x2F813, 0x17C01,
+    0x2F814, 0x17C21,
+    0x2F815, 0x17C41,
+    0x2F816, 0x17C62,
+    0x2F817, 0x17CA1,
+    0x2F818, 0x17CC1,
+    0x2F819, 0x17CE1,
+    0x2F81A, 0x17D01,
+    0x2F81B, 0x17D21,
+    0x2F81C, 0x17D42,
+    0x2F81D, 0x17D81,
+    0x2F81E, 0x17DA1,
+    0x2F81F, 0x17DC1,
+    0x2F820, 0x17DE1,
+    0x2F821, 0x17E01,
+    0x2F822, 0x17E21,
+    0x2F823, 0x17E41,
+    0x2F824, 0x17E61,
+    0x2F825, 0x17E81,
+    0x2F826, 0x17EA1,
+    0x2F827, 0x17EC1,
+    0x2F828, 0x17EE1,
+    0x2F829, 0x17F01,
+    0x2F82A, 0x17F21,
+    0x2F82B, 0x17F41,
+    0x2F82C, 0x17F61,
+    0x2F82D, 0x17F81,
+    0x2F82E, 0x17FA1,
+    0x2F82F, 0x17FC1,
+    0x2F830, 0x17FE1,
+    0x2F831, 0x18001,
+    0x2F832, 0x18021,
+    0x2F833, 0x18041,
+    0x2F834, 0x18062,
+    0x2F835, 0x180A1,
+    0x2F836, 0x180C1,
+    0x2F837, 0x180E1,
+    0x2F838, 0x18102,
+    0x2F839, 0x18141,
+    0x2F83A, 0x18161,
+    0x2F83B, 0x18181,
+    0x2F83C, 0x181A1,
+    0x2F83D, 0x181C1,
+    0x2F83E, 0x181E1,
+    0x2F83F, 0x18201,
+    0x2F840, 0x18221,
+    0x2F841, 0x18241,
+    0x2F842, 0x18261,
+    0x2F843, 0x18281,
+    0x2F844, 0x182A1,
+    0x2F845, 0x182C1,
+    0x2F846, 0x182E1,
+    0x2F847, 0x18301,
+    0x2F848, 0x18321,
+    0x2F849, 0x18341,
+    0x2F84A, 0x18361,
+    0x2F84B, 0x18381,
+    0x2F84C, 0x183A1,
+    0x2F84D, 0x183C1,
+    0x2F84E, 0x183E1,
+    0x2F84F, 0x18401,
+    0x2F850, 0x18421,
+    0x2F851, 0x18441,
+    0x2F852, 0x18461,
+    0x2F853, 0x18481,
+    0x2F854, 0x184A1,
+    0x2F855, 0x184C1,
+    0x2F856, 0x184E1,
+    0x2F857, 0x18501,
+    0x2F858, 0x18521,
+    0x2F859, 0x18542,
+    0x2F85A, 0x18581,
+    0x2F85B, 0x185A1,
+    0x2F85C, 0x185C1,
+    0x2F85D, 0x185E1,
+    0x2F85E, 0x18601,
+    0x2F85F, 0x18621,
+    0x2F860, 0x18642,
+    0x2F861, 0x18682,
+    0x2F862, 0x186C1,
+    0x2F863, 0x186E1,
+    0x2F864, 0x18701,
+    0x2F865, 0x18721,
+    0x2F866, 0x18741,
+    0x2F867, 0x18761,
+    0x2F868, 0x18781,
+    0x2F869, 0x187A1,
+    0x2F86A, 0x187C1,
+    0x2F86B, 0x187E1,
+    0x2F86C, 0x18802,
+    0x2F86D, 0x18841,
+    0x2F86E, 0x18861,
+    0x2F86F, 0x18881,
+    0x2F870, 0x188A1,
+    0x2F871, 0x188C2,
+    0x2F872, 0x18901,
+    0x2F873, 0x18921,
+    0x2F874, 0x18941,
+    0x2F875, 0x18961,
+    0x2F876, 0x18981,
+    0x2F877, 0x189A1,
+    0x2F878, 0x189C1,
+    0x2F879, 0x189E1,
+    0x2F87A, 0x18A01,
+    0x2F87B, 0x18A22,
+    0x2F87C, 0x18A61,
+    0x2F87D, 0x18A82,
+    0x2F87E, 0x18AC1,
+    0x2F87F, 0x18AE1,
+    0x2F880, 0x18B01,
+    0x2F881, 0x18B21,
+    0x2F882, 0x18B41,
+    0x2F883, 0x18B61,
+    0x2F884, 0x18B81,
+    0x2F885, 0x18BA1,
+    0x2F886, 0x18BC1,
+    0x2F887, 0x18BE1,
+    0x2F888, 0x18C01,
+    0x2F889, 0x18C22,
+    0x2F88A, 0x18C61,
+    0x2F88B, 0x18C81,
+    0x2F88C, 0x18CA1,
+    0x2F88D, 0x18CC1,
+    0x2F88E, 0x18CE1,
+    0x2F88F, 0x18D02,
+    0x2F890, 0x18D41,
+    0x2F891, 0x18D62,
+    0x2F892, 0x18DA2,
+    0x2F893, 0x18DE1,
+    0x2F894, 0x18E01,
+    0x2F895, 0x18E21,
+    0x2F896, 0x18E41,
+    0x2F897, 0x18E62,
+    0x2F898, 0x18EA2,
+    0x2F899, 0x18EE1,
+    0x2F89A, 0x18F01,
+    0x2F89B, 0x18F21,
+    0x2F89C, 0x18F41,
+    0x2F89D, 0x18F61,
+    0x2F89E, 0x18F81,
+    0x2F89F, 0x18FA1,
+    0x2F8A0, 0x18FC1,
+    0x2F8A1, 0x18FE1,
+    0x2F8A2, 0x19001,
+    0x2F8A3, 0x19021,
+    0x2F8A4, 0x19042,
+    0x2F8A5, 0x19081,
+    0x2F8A6, 0x190A1,
+    0x2F8A7, 0x190C1,
+    0x2F8A8, 0x190E1,
+    0x2F8A9, 0x19101,
+    0x2F8AA, 0x19121,
+    0x2F8AB, 0x19141,
+    0x2F8AC, 0x19161,
+    0x2F8AD, 0x19181,
+    0x2F8AE, 0x191A1,
+    0x2F8AF, 0x191C1,
+    0x2F8B0, 0x191E1,
+    0x2F8B1, 0x19201,
+    0x2F8B2, 0x19221,
+    0x2F8B3, 0x19241,
+    0x2F8B4, 0x19261,
+    0x2F8B5, 0x19281,
+    0x2F8B6, 0x192A1,
+    0x2F8B7, 0x192C1,
+    0x2F8B8, 0x192E2,
+    0x2F8B9, 0x19321,
+    0x2F8BA, 0x19341,
+    0x2F8BB, 0x19361,
+    0x2F8BC, 0x19381,
+    0x2F8BD, 0x193A1,
+    0x2F8BE, 0x193C2,
+    0x2F8BF, 0x19401,
+    0x2F8C0, 0x19421,
+    0x2F8C1, 0x19441,
+    0x2F8C2, 0x19461,
+    0x2F8C3, 0x19481,
+    0x2F8C4, 0x194A1,
+    0x2F8C5, 0x194C1,
+    0x2F8C6, 0x194E1,
+    0x2F8C7, 0x19501,
+    0x2F8C8, 0x19521,
+    0x2F8C9, 0x19541,
+    0x2F8CA, 0x19562,
+    0x2F8CB, 0x195A1,
+    0x2F8CC, 0x195C1,
+    0x2F8CD, 0x195E1,
+    0x2F8CE, 0x19601,
+    0x2F8CF, 0x19621,
+    0x2F8D0, 0x19641,
+    0x2F8D1, 0x19661,
+    0x2F8D2, 0x19681,
+    0x2F8D3, 0x196A1,
+    0x2F8D4, 0x196C1,
+    0x2F8D5, 0x196E1,
+    0x2F8D6, 0x19701,
+    0x2F8D7, 0x19721,
+    0x2F8D8, 0x19741,
+    0x2F8D9, 0x19761,
+    0x2F8DA, 0x19781,
+    0x2F8DB, 0x197A1,
+    0x2F8DC, 0x197C1,
+    0x2F8DD, 0x197E2,
+    0x2F8DE, 0x19821,
+    0x2F8DF, 0x19841,
+    0x2F8E0, 0x19861,
+    0x2F8E1, 0x19881,
+    0x2F8E2, 0x198A1,
+    0x2F8E3, 0x198C2,
+    0x2F8E4, 0x19901,
+    0x2F8E5, 0x19921,
+    0x2F8E6, 0x19941,
+    0x2F8E7, 0x19961,
+    0x2F8E8, 0x19981,
+    0x2F8E9, 0x199A1,
+    0x2F8EA, 0x199C1,
+    0x2F8EB, 0x199E1,
+    0x2F8EC, 0x19A02,
+    0x2F8ED, 0x19A41,
+    0x2F8EE, 0x19A61,
+    0x2F8EF, 0x19A81,
+    0x2F8F0, 0x19AA2,
+    0x2F8F1, 0x19AE1,
+    0x2F8F2, 0x19B01,
+    0x2F8F3, 0x19B21,
+    0x2F8F4, 0x19B41,
+    0x2F8F5, 0x19B61,
+    0x2F8F6, 0x19B81,
+    0x2F8F7, 0x19BA2,
+    0x2F8F8, 0x19BE2,
+    0x2F8F9, 0x19C22,
+    0x2F8FA, 0x19C61,
+    0x2F8FB, 0x19C82,
+    0x2F8FC, 0x19CC1,
+    0x2F8FD, 0x19CE1,
+    0x2F8FE, 0x19D01,
+    0x2F8FF, 0x19D21,
+    0x2F900, 0x19D41,
+    0x2F901, 0x19D61,
+    0x2F902, 0x19D81,
+    0x2F903, 0x19DA1,
+    0x2F904, 0x19DC1,
+    0x2F905, 0x19DE1,
+    0x2F906, 0x19E02,
+    0x2F907, 0x19E41,
+    0x2F908, 0x19E61,
+    0x2F909, 0x19E81,
+    0x2F90A, 0x19EA1,
+    0x2F90B, 0x19EC1,
+    0x2F90C, 0x19EE1,
+    0x2F90D, 0x19F02,
+    0x2F90E, 0x19F41,
+    0x2F90F, 0x19F61,
+    0x2F910, 0x19F82,
+    0x2F911, 0x19FC2,
+    0x2F912, 0x1A001,
+    0x2F913, 0x1A021,
+    0x2F914, 0x1A041,
+    0x2F915, 0x1A061,
+    0x2F916, 0x1A081,
+    0x2F917, 0x1A0A1,
+    0x2F918, 0x1A0C1,
+    0x2F919, 0x1A0E1,
+    0x2F91A, 0x1A101,
+    0x2F91B, 0x1A122,
+    0x2F91C, 0x1A161,
+    0x2F91D, 0x1A182,
+    0x2F91E, 0x1A1C1,
+    0x2F91F, 0x1A1E2,
+    0x2F920, 0x1A221,
+    0x2F921, 0x1A241,
+    0x2F922, 0x1A261,
+    0x2F923, 0x1A282,
+    0x2F924, 0x1A2C1,
+    0x2F925, 0x1A2E1,
+    0x2F926, 0x1A302,
+    0x2F927, 0x1A342,
+    0x2F928, 0x1A381,
+    0x2F929, 0x1A3A1,
+    0x2F92A, 0x1A3C1,
+    0x2F92B, 0x1A3E1,
+    0x2F92C, 0x1A401,
+    0x2F92D, 0x1A421,
+    0x2F92E, 0x1A441,
+    0x2F92F, 0x1A461,
+    0x2F930, 0x1A481,
+    0x2F931, 0x1A4A1,
+    0x2F932, 0x1A4C1,
+    0x2F933, 0x1A4E1,
+    0x2F934, 0x1A501,
+    0x2F935, 0x1A522,
+    0x2F936, 0x1A561,
+    0x2F937, 0x1A582,
+    0x2F938, 0x1A5C1,
+    0x2F939, 0x1A5E2,
+    0x2F93A, 0x1A621,
+    0x2F93B, 0x1A642,
+    0x2F93C, 0x1A682,
+    0x2F93D, 0x1A6C2,
+    0x2F93E, 0x1A701,
+    0x2F93F, 0x1A721,
+    0x2F940, 0x1A741,
+    0x2F941, 0x1A762,
+    0x2F942, 0x1A7A2,
+    0x2F943, 0x1A7E2,
+    0x2F944, 0x1A822,
+    0x2F945, 0x1A861,
+    0x2F946, 0x1A881,
+    0x2F947, 0x1A8A1,
+    0x2F948, 0x1A8C1,
+    0x2F949, 0x1A8E1,
+    0x2F94A, 0x1A901,
+    0x2F94B, 0x1A921,
+    0x2F94C, 0x1A941,
+    0x2F94D, 0x1A962,
+    0x2F94E, 0x1A9A1,
+    0x2F94F, 0x1A9C1,
+    0x2F950, 0x1A9E1,
+    0x2F951, 0x1AA01,
+    0x2F952, 0x1AA22,
+    0x2F953, 0x1AA61,
+    0x2F954, 0x1AA82,
+    0x2F955, 0x1AAC2,
+    0x2F956, 0x1AB01,
+    0x2F957, 0x1AB21,
+    0x2F958, 0x1AB41,
+    0x2F959, 0x1AB61,
+    0x2F95A, 0x1AB81,
+    0x2F95B, 0x1ABA1,
+    0x2F95C, 0x1ABC2,
+    0x2F95D, 0x1AC02,
+    0x2F95E, 0x1AC42,
+    0x2F95F, 0x1AC81,
+    0x2F960, 0x1ACA1,
+    0x2F961, 0x1ACC2,
+    0x2F962, 0x1AD01,
+    0x2F963, 0x1AD21,
+    0x2F964, 0x1AD41,
+    0x2F965, 0x1AD62,
+    0x2F966, 0x1ADA1,
+    0x2F967, 0x1ADC1,
+    0x2F968, 0x1ADE1,
+    0x2F969, 0x1AE01,
+    0x2F96A, 0x1AE21,
+    0x2F96B, 0x1AE42,
+    0x2F96C, 0x1AE81,
+    0x2F96D, 0x1AEA1,
+    0x2F96E, 0x1AEC1,
+    0x2F96F, 0x1AEE1,
+    0x2F970, 0x1AF01,
+    0x2F971, 0x1AF21,
+    0x2F972, 0x1AF42,
+    0x2F973, 0x1AF82,
+    0x2F974, 0x1AFC1,
+    0x2F975, 0x1AFE2,
+    0x2F976, 0x1B021,
+    0x2F977, 0x1B042,
+    0x2F978, 0x1B081,
+    0x2F979, 0x1B0A1,
+    0x2F97A, 0x1B0C1,
+    0x2F97B, 0x1B0E2,
+    0x2F97C, 0x1B122,
+    0x2F97D, 0x1B161,
+    0x2F97E, 0x1B182,
+    0x2F97F, 0x1B1C1,
+    0x2F980, 0x1B1E2,
+    0x2F981, 0x1B221,
+    0x2F982, 0x1B241,
+    0x2F983, 0x1B261,
+    0x2F984, 0x1B281,
+    0x2F985, 0x1B2A1,
+    0x2F986, 0x1B2C1,
+    0x2F987, 0x1B2E2,
+    0x2F988, 0x1B322,
+    0x2F989, 0x1B362,
+    0x2F98A, 0x1B3A2,
+    0x2F98B, 0x1B3E1,
+    0x2F98C, 0x1B401,
+    0x2F98D, 0x1B421,
+    0x2F98E, 0x1B441,
+    0x2F98F, 0x1B461,
+    0x2F990, 0x1B481,
+    0x2F991, 0x1B4A1,
+    0x2F992, 0x1B4C1,
+    0x2F993, 0x1B4E1,
+    0x2F994, 0x1B501,
+    0x2F995, 0x1B521,
+    0x2F996, 0x1B541,
+    0x2F997, 0x1B562,
+    0x2F998, 0x1B5A1,
+    0x2F999, 0x1B5C1,
+    0x2F99A, 0x1B5E1,
+    0x2F99B, 0x1B601,
+    0x2F99C, 0x1B621,
+    0x2F99D, 0x1B641,
+    0x2F99E, 0x1B661,
+    0x2F99F, 0x1B681,
+    0x2F9A0, 0x1B6A1,
+    0x2F9A1, 0x1B6C1,
+    0x2F9A2, 0x1B6E1,
+    0x2F9A3, 0x1B701,
+    0x2F9A4, 0x1B722,
+    0x2F9A5, 0x1B762,
+    0x2F9A6, 0x1B7A2,
+    0x2F9A7, 0x1B7E1,
+    0x2F9A8, 0x1B801,
+    0x2F9A9, 0x1B821,
+    0x2F9AA, 0x1B841,
+    0x2F9AB, 0x1B862,
+    0x2F9AC, 0x1B8A1,
+    0x2F9AD, 0x1B8C2,
+    0x2F9AE, 0x1B901,
+    0x2F9AF, 0x1B921,
+    0x2F9B0, 0x1B942,
+    0x2F9B1, 0x1B982,
+    0x2F9B2, 0x1B9C1,
+    0x2F9B3, 0x1B9E1,
+    0x2F9B4, 0x1BA01,
+    0x2F9B5, 0x1BA21,
+    0x2F9B6, 0x1BA41,
+    0x2F9B7, 0x1BA61,
+    0x2F9B8, 0x1BA81,
+    0x2F9B9, 0x1BAA1,
+    0x2F9BA, 0x1BAC1,
+    0x2F9BB, 0x1BAE1,
+    0x2F9BC, 0x1BB01,
+    0x2F9BD, 0x1BB21,
+    0x2F9BE, 0x1BB41,
+    0x2F9BF, 0x1BB61,
+    0x2F9C0, 0x1BB81,
+    0x2F9C1, 0x1BBA1,
+    0x2F9C2, 0x1BBC1,
+    0x2F9C3, 0x1BBE1,
+    0x2F9C4, 0x1BC01,
+    0x2F9C5, 0x1BC22,
+    0x2F9C6, 0x1BC61,
+    0x2F9C7, 0x1BC81,
+    0x2F9C8, 0x1BCA1,
+    0x2F9C9, 0x1BCC1,
+    0x2F9CA, 0x1BCE1,
+    0x2F9CB, 0x1BD02,
+    0x2F9CC, 0x1BD42,
+    0x2F9CD, 0x1BD81,
+    0x2F9CE, 0x1BDA1,
+    0x2F9CF, 0x1BDC1,
+    0x2F9D0, 0x1BDE1,
+    0x2F9D1, 0x1BE01,
+    0x2F9D2, 0x1BE21,
+    0x2F9D3, 0x1BE42,
+    0x2F9D4, 0x1BE81,
+    0x2F9D5, 0x1BEA1,
+    0x2F9D6, 0x1BEC1,
+    0x2F9D7, 0x1BEE1,
+    0x2F9D8, 0x1BF02,
+    0x2F9D9, 0x1BF42,
+    0x2F9DA, 0x1BF81,
+    0x2F9DB, 0x1BFA1,
+    0x2F9DC, 0x1BFC1,
+    0x2F9DD, 0x1BFE2,
+    0x2F9DE, 0x1C021,
+    0x2F9DF, 0x1C041,
+    0x2F9E0, 0x1C062,
+    0x2F9E1, 0x1C0A2,
+    0x2F9E2, 0x1C0E1,
+    0x2F9E3, 0x1C101,
+    0x2F9E4, 0x1C121,
+    0x2F9E5, 0x1C142,
+    0x2F9E6, 0x1C181,
+    0x2F9E7, 0x1C1A1,
+    0x2F9E8, 0x1C1C1,
+    0x2F9E9, 0x1C1E1,
+    0x2F9EA, 0x1C201,
+    0x2F9EB, 0x1C221,
+    0x2F9EC, 0x1C241,
+    0x2F9ED, 0x1C262,
+    0x2F9EE, 0x1C2A1,
+    0x2F9EF, 0x1C2C1,
+    0x2F9F0, 0x1C2E1,
+    0x2F9F1, 0x1C302,
+    0x2F9F2, 0x1C341,
+    0x2F9F3, 0x1C361,
+    0x2F9F4, 0x1C381,
+    0x2F9F5, 0x1C3A1,
+    0x2F9F6, 0x1C3C2,
+    0x2F9F7, 0x1C402,
+    0x2F9F8, 0x1C441,
+    0x2F9F9, 0x1C461,
+    0x2F9FA, 0x1C481,
+    0x2F9FB, 0x1C4A2,
+    0x2F9FC, 0x1C4E1,
+    0x2F9FD, 0x1C502,
+    0x2F9FE, 0x1C541,
+    0x2F9FF, 0x1C561,
+    0x2FA00, 0x1C581,
+    0x2FA01, 0x1C5A2,
+    0x2FA02, 0x1C5E1,
+    0x2FA03, 0x1C601,
+    0x2FA04, 0x1C621,
+    0x2FA05, 0x1C641,
+    0x2FA06, 0x1C661,
+    0x2FA07, 0x1C681,
+    0x2FA08, 0x1C6A1,
+    0x2FA09, 0x1C6C2,
+    0x2FA0A, 0x1C701,
+    0x2FA0B, 0x1C721,
+    0x2FA0C, 0x1C741,
+    0x2FA0D, 0x1C761,
+    0x2FA0E, 0x1C781,
+    0x2FA0F, 0x1C7A1,
+    0x2FA10, 0x1C7C2,
+    0x2FA11, 0x1C801,
+    0x2FA12, 0x1C822,
+    0x2FA13, 0x1C862,
+    0x2FA14, 0x1C8A2,
+    0x2FA15, 0x1C8E1,
+    0x2FA16, 0x1C901,
+    0x2FA17, 0x1C921,
+    0x2FA18, 0x1C941,
+    0x2FA19, 0x1C961,
+    0x2FA1A, 0x1C981,
+    0x2FA1B, 0x1C9A1,
+    0x2FA1C, 0x1C9C1,
+    0x2FA1D, 0x1C9E2
+  ];
+  return table; // inlines to a constant memory offset
+}
+
+/** Code units of the full canonical decompositions. */
+@inline
+export function CANONICAL_DATA(): u16[] {
+  const table: u16[] = [
+    0x41, 0x300, 0x41, 0x301, 0x41, 0x302, 0x41, 0x303, 0x41, 0x308, 0x41, 0x30A, 0x43, 0x327, 0x45, 0x300,
+    0x45, 0x301, 0x45, 0x302, 0x45, 0x308, 0x49, 0x300, 0x49, 0x301, 0x49, 0x302, 0x49, 0x308, 0x4E, 0x303,
+    0x4F, 0x300, 0x4F, 0x301, 0x4F, 0x302, 0x4F, 0x303, 0x4F, 0x308, 0x55, 0x300, 0x55, 0x301, 0x55, 0x302,
+    0x55, 0x308, 0x59, 0x301, 0x61, 0x300, 0x61, 0x301, 0x61, 0x302, 0x61, 0x303, 0x61, 0x308, 0x61, 0x30A,
+    0x63, 0x327, 0x65, 0x300, 0x65, 0x301, 0x65, 0x302, 0x65, 0x308, 0x69, 0x300, 0x69, 0x301, 0x69, 0x302,
+    0x69, 0x308, 0x6E, 0x303, 0x6F, 0x300, 0x6F, 0x301, 0x6F, 0x302, 0x6F, 0x303, 0x6F, 0x308, 0x75, 0x300,
+    0x75, 0x301, 0x75, 0x302, 0x75, 0x308, 0x79, 0x301, 0x79, 0x308, 0x41, 0x304, 0x61, 0x304, 0x41, 0x306,
+    0x61, 0x306, 0x41, 0x328, 0x61, 0x328, 0x43, 0x301, 0x63, 0x301, 0x43, 0x302, 0x63, 0x302, 0x43, 0x307,
+    0x63, 0x307, 0x43, 0x30C, 0x63, 0x30C, 0x44, 0x30C, 0x64, 0x30C, 0x45, 0x304, 0x65, 0x304, 0x45, 0x306,
+    0x65, 0x306, 0x45, 0x307, 0x65, 0x307, 0x45, 0x328, 0x65, 0x328, 0x45, 0x30C, 0x65, 0x30C, 0x47, 0x302,
+    0x67, 0x302, 0x47, 0x306, 0x67, 0x306, 0x47, 0x307, 0x67, 0x307, 0x47, 0x327, 0x67, 0x327, 0x48, 0x302,
+    0x68, 0x302, 0x49, 0x303, 0x69, 0x303, 0x49, 0x304, 0x69, 0x304, 0x49, 0x306, 0x69, 0x306, 0x49, 0x328,
+    0x69, 0x328, 0x49, 0x307, 0x4A, 0x302, 0x6A, 0x302, 0x4B, 0x327, 0x6B, 0x327, 0x4C, 0x301, 0x6C, 0x301,
+    0x4C, 0x327, 0x6C, 0x327, 0x4C, 0x30C, 0x6C, 0x30C, 0x4E, 0x301, 0x6E, 0x301, 0x4E, 0x327, 0x6E, 0x327,
+    0x4E, 0x30C, 0x6E, 0x30C, 0x4F, 0x304, 0x6F, 0x304, 0x4F, 0x306, 0x6F, 0x306, 0x4F, 0x30B, 0x6F, 0x30B,
+    0x52, 0x301, 0x72, 0x301, 0x52, 0x327, 0x72, 0x327, 0x52, 0x30C, 0x72, 0x30C, 0x53, 0x301, 0x73, 0x301,
+    0x53, 0x302, 0x73, 0x302, 0x53, 0x327, 0x73, 0x327, 0x53, 0x30C, 0x73, 0x30C, 0x54, 0x327, 0x74, 0x327,
+    0x54, 0x30C, 0x74, 0x30C, 0x55, 0x303, 0x75, 0x303, 0x55, 0x304, 0x75, 0x304, 0x55, 0x306, 0x75, 0x306,
+    0x55, 0x30A, 0x75, 0x30A, 0x55, 0x30B, 0x75, 0x30B, 0x55, 0x328, 0x75, 0x328, 0x57, 0x302, 0x77, 0x302,
+    0x59, 0x302, 0x79, 0x302, 0x59, 0x308, 0x5A, 0x301, 0x7A, 0x301, 0x5A, 0x307, 0x7A, 0x307, 0x5A, 0x30C,
+    0x7A, 0x30C, 0x4F, 0x31B, 0x6F, 0x31B, 0x55, 0x31B, 0x75, 0x31B, 0x41, 0x30C, 0x61, 0x30C, 0x49, 0x30C,
+    0x69, 0x30C, 0x4F, 0x30C, 0x6F, 0x30C, 0x55, 0x30C, 0x75, 0x30C, 0x55, 0x308, 0x304, 0x75, 0x308, 0x304,
+    0x55, 0x308, 0x301, 0x75, 0x308, 0x301, 0x55, 0x308, 0x30C, 0x75, 0x308, 0x30C, 0x55, 0x308, 0x300, 0x75,
+    0x308, 0x300, 0x41, 0x308, 0x304, 0x61, 0x308, 0x304, 0x41, 0x307, 0x304, 0x61, 0x307, 0x304, 0xC6, 0x304,
+    0xE6, 0x304, 0x47, 0x30C, 0x67, 0x30C, 0x4B, 0x30C, 0x6B, 0x30C, 0x4F, 0x328, 0x6F, 0x328, 0x4F, 0x328,
+    0x304, 0x6F, 0x328, 0x304, 0x1B7, 0x30C, 0x292, 0x30C, 0x6A, 0x30C, 0x47, 0x301, 0x67, 0x301, 0x4E, 0x300,
+    0x6E, 0x300, 0x41, 0x30A, 0x301, 0x61, 0x30A, 0x301, 0xC6, 0x301, 0xE6, 0x301, 0xD8, 0x301, 0xF8, 0x301,
+    0x41, 0x30F, 0x61, 0x30F, 0x41, 0x311, 0x61, 0x311, 0x45, 0x30F, 0x65, 0x30F, 0x45, 0x311, 0x65, 0x311,
+    0x49, 0x30F, 0x69, 0x30F, 0x49, 0x311, 0x69, 0x311, 0x4F, 0x30F, 0x6F, 0x30F, 0x4F, 0x311, 0x6F, 0x311,
+    0x52, 0x30F, 0x72, 0x30F, 0x52, 0x311, 0x72, 0x311, 0x55, 0x30F, 0x75, 0x30F, 0x55, 0x311, 0x75, 0x311,
+    0x53, 0x326, 0x73, 0x326, 0x54, 0x326, 0x74, 0x326, 0x48, 0x30C, 0x68, 0x30C, 0x41, 0x307, 0x61, 0x307,
+    0x45, 0x327, 0x65, 0x327, 0x4F, 0x308, 0x304, 0x6F, 0x308, 0x304, 0x4F, 0x303, 0x304, 0x6F, 0x303, 0x304,
+    0x4F, 0x307, 0x6F, 0x307, 0x4F, 0x307, 0x304, 0x6F, 0x307, 0x304, 0x59, 0x304, 0x79, 0x304, 0x300, 0x301,
+    0x313, 0x308, 0x301, 0x2B9, 0x3B, 0xA8, 0x301, 0x391, 0x301, 0xB7, 0x395, 0x301, 0x397, 0x301, 0x399, 0x301,
+    0x39F, 0x301, 0x3A5, 0x301, 0x3A9, 0x301, 0x3B9, 0x308, 0x301, 0x399, 0x308, 0x3A5, 0x308, 0x3B1, 0x301, 0x3B5,
+    0x301, 0x3B7, 0x301, 0x3B9, 0x301, 0x3C5, 0x308, 0x301, 0x3B9, 0x308, 0x3C5, 0x308, 0x3BF, 0x301, 0x3C5, 0x301,
+    0x3C9, 0x301, 0x3D2, 0x301, 0x3D2, 0x308, 0x415, 0x300, 0x415, 0x308, 0x413, 0x301, 0x406, 0x308, 0x41A, 0x301,
+    0x418, 0x300, 0x423, 0x306, 0x418, 0x306, 0x438, 0x306, 0x435, 0x300, 0x435, 0x308, 0x433, 0x301, 0x456, 0x308,
+    0x43A, 0x301, 0x438, 0x300, 0x443, 0x306, 0x474, 0x30F, 0x475, 0x30F, 0x416, 0x306, 0x436, 0x306, 0x410, 0x306,
+    0x430, 0x306, 0x410, 0x308, 0x430, 0x308, 0x415, 0x306, 0x435, 0x306, 0x4D8, 0x308, 0x4D9, 0x308, 0x416, 0x308,
+    0x436, 0x308, 0x417, 0x308, 0x437, 0x308, 0x418, 0x304, 0x438, 0x304, 0x418, 0x308, 0x438, 0x308, 0x41E, 0x308,
+    0x43E, 0x308, 0x4E8, 0x308, 0x4E9, 0x308, 0x42D, 0x308, 0x44D, 0x308, 0x423, 0x304, 0x443, 0x304, 0x423, 0x308,
+    0x443, 0x308, 0x423, 0x30B, 0x443, 0x30B, 0x427, 0x308, 0x447, 0x308, 0x42B, 0x308, 0x44B, 0x308, 0x627, 0x653,
+    0x627, 0x654, 0x648, 0x654, 0x627, 0x655, 0x64A, 0x654, 0x6D5, 0x654, 0x6C1, 0x654, 0x6D2, 0x654, 0x928, 0x93C,
+    0x930, 0x93C, 0x933, 0x93C, 0x915, 0x93C, 0x916, 0x93C, 0x917, 0x93C, 0x91C, 0x93C, 0x921, 0x93C, 0x922, 0x93C,
+    0x92B, 0x93C, 0x92F, 0x93C, 0x9C7, 0x9BE, 0x9C7, 0x9D7, 0x9A1, 0x9BC, 0x9A2, 0x9BC, 0x9AF, 0x9BC, 0xA32, 0xA3C,
+    0xA38, 0xA3C, 0xA16, 0xA3C, 0xA17, 0xA3C, 0xA1C, 0xA3C, 0xA2B, 0xA3C, 0xB47, 0xB56, 0xB47, 0xB3E, 0xB47, 0xB57,
+    0xB21, 0xB3C, 0xB22, 0xB3C, 0xB92, 0xBD7, 0xBC6, 0xBBE, 0xBC7, 0xBBE, 0xBC6, 0xBD7, 0xC46, 0xC56, 0xCBF, 0xCD5,
+    0xCC6, 0xCD5, 0xCC6, 0xCD6, 0xCC6, 0xCC2, 0xCC6, 0xCC2, 0xCD5, 0xD46, 0xD3E, 0xD47, 0xD3E, 0xD46, 0xD57, 0xDD9,
+    0xDCA, 0xDD9, 0xDCF, 0xDD9, 0xDCF, 0xDCA, 0xDD9, 0xDDF, 0xF42, 0xFB7, 0xF4C, 0xFB7, 0xF51, 0xFB7, 0xF56, 0xFB7,
+    0xF5B, 0xFB7, 0xF40, 0xFB5, 0xF71, 0xF72, 0xF71, 0xF74, 0xFB2, 0xF80, 0xFB3, 0xF80, 0xF71, 0xF80, 0xF92, 0xFB7,
+    0xF9C, 0xFB7, 0xFA1, 0xFB7, 0xFA6, 0xFB7, 0xFAB, 0xFB7, 0xF90, 0xFB5, 0x1025, 0x102E, 0x1B05, 0x1B35, 0x1B07, 0x1B35,
+    0x1B09, 0x1B35, 0x1B0B, 0x1B35, 0x1B0D, 0x1B35, 0x1B11, 0x1B35, 0x1B3A, 0x1B35, 0x1B3C, 0x1B35, 0x1B3E, 0x1B35, 0x1B3F, 0x1B35,
+    0x1B42, 0x1B35, 0x41, 0x325, 0x61, 0x325, 0x42, 0x307, 0x62, 0x307, 0x42, 0x323, 0x62, 0x323, 0x42, 0x331,
+    0x62, 0x331, 0x43, 0x327, 0x301, 0x63, 0x327, 0x301, 0x44, 0x307, 0x64, 0x307, 0x44, 0x323, 0x64, 0x323,
+    0x44, 0x331, 0x64, 0x331, 0x44, 0x327, 0x64, 0x327, 0x44, 0x32D, 0x64, 0x32D, 0x45, 0x304, 0x300, 0x65,
+    0x304, 0x300, 0x45, 0x304, 0x301, 0x65, 0x304, 0x301, 0x45, 0x32D, 0x65, 0x32D, 0x45, 0x330, 0x65, 0x330,
+    0x45, 0x327, 0x306, 0x65, 0x327, 0x306, 0x46, 0x307, 0x66, 0x307, 0x47, 0x304, 0x67, 0x304, 0x48, 0x307,
+    0x68, 0x307, 0x48, 0x323, 0x68, 0x323, 0x48, 0x308, 0x68, 0x308, 0x48, 0x327, 0x68, 0x327, 0x48, 0x32E,
+    0x68, 0x32E, 0x49, 0x330, 0x69, 0x330, 0x49, 0x308, 0x301, 0x69, 0x308, 0x301, 0x4B, 0x301, 0x6B, 0x301,
+    0x4B, 0x323, 0x6B, 0x323, 0x4B, 0x331, 0x6B, 0x331, 0x4C, 0x323, 0x6C, 0x323, 0x4C, 0x323, 0x304, 0x6C,
+    0x323, 0x304, 0x4C, 0x331, 0x6C, 0x331, 0x4C, 0x32D, 0x6C, 0x32D, 0x4D, 0x301, 0x6D, 0x301, 0x4D, 0x307,
+    0x6D, 0x307, 0x4D, 0x323, 0x6D, 0x323, 0x4E, 0x307, 0x6E, 0x307, 0x4E, 0x323, 0x6E, 0x323, 0x4E, 0x331,
+    0x6E, 0x331, 0x4E, 0x32D, 0x6E, 0x32D, 0x4F, 0x303, 0x301, 0x6F, 0x303, 0x301, 0x4F, 0x303, 0x308, 0x6F,
+    0x303, 0x308, 0x4F, 0x304, 0x300, 0x6F, 0x304, 0x300, 0x4F, 0x304, 0x301, 0x6F, 0x304, 0x301, 0x50, 0x301,
+    0x70, 0x301, 0x50, 0x307, 0x70, 0x307, 0x52, 0x307, 0x72, 0x307, 0x52, 0x323, 0x72, 0x323, 0x52, 0x323,
+    0x304, 0x72, 0x323, 0x304, 0x52, 0x331, 0x72, 0x331, 0x53, 0x307, 0x73, 0x307, 0x53, 0x323, 0x73, 0x323,
+    0x53, 0x301, 0x307, 0x73, 0x301, 0x307, 0x53, 0x30C, 0x307, 0x73, 0x30C, 0x307, 0x53, 0x323, 0x307, 0x73,
+    0x323, 0x307, 0x54, 0x307, 0x74, 0x307, 0x54, 0x323, 0x74, 0x323, 0x54, 0x331, 0x74, 0x331, 0x54, 0x32D,
+    0x74, 0x32D, 0x55, 0x324, 0x75, 0x324, 0x55, 0x330, 0x75, 0x330, 0x55, 0x32D, 0x75, 0x32D, 0x55, 0x303,
+    0x301, 0x75, 0x303, 0x301, 0x55, 0x304, 0x308, 0x75, 0x304, 0x308, 0x56, 0x303, 0x76, 0x303, 0x56, 0x323,
+    0x76, 0x323, 0x57, 0x300, 0x77, 0x300, 0x57, 0x301, 0x77, 0x301, 0x57, 0x308, 0x77, 0x308, 0x57, 0x307,
+    0x77, 0x307, 0x57, 0x323, 0x77, 0x323, 0x58, 0x307, 0x78, 0x307, 0x58, 0x308, 0x78, 0x308, 0x59, 0x307,
+    0x79, 0x307, 0x5A, 0x302, 0x7A, 0x302, 0x5A, 0x323, 0x7A, 0x323, 0x5A, 0x331, 0x7A, 0x331, 0x68, 0x331,
+    0x74, 0x308, 0x77, 0x30A, 0x79, 0x30A, 0x17F, 0x307, 0x41, 0x323, 0x61, 0x323, 0x41, 0x309, 0x61, 0x309,
+    0x41, 0x302, 0x301, 0x61, 0x302, 0x301, 0x41, 0x302, 0x300, 0x61, 0x302, 0x300, 0x41, 0x302, 0x309, 0x61,
+    0x302, 0x309, 0x41, 0x302, 0x303, 0x61, 0x302, 0x303, 0x41, 0x323, 0x302, 0x61, 0x323, 0x302, 0x41, 0x306,
+    0x301, 0x61, 0x306, 0x301, 0x41, 0x306, 0x300, 0x61, 0x306, 0x300, 0x41, 0x306, 0x309, 0x61, 0x306, 0x309,
+    0x41, 0x306, 0x303, 0x61, 0x306, 0x303, 0x41, 0x323, 0x306, 0x61, 0x323, 0x306, 0x45, 0x323, 0x65, 0x323,
+    0x45, 0x309, 0x65, 0x309, 0x45, 0x303, 0x65, 0x303, 0x45, 0x302, 0x301, 0x65, 0x302, 0x301, 0x45, 0x302,
+    0x300, 0x65, 0x302, 0x300, 0x45, 0x302, 0x309, 0x65, 0x302, 0x309, 0x45, 0x302, 0x303, 0x65, 0x302, 0x303,
+    0x45, 0x323, 0x302, 0x65, 0x323, 0x302, 0x49, 0x309, 0x69, 0x309, 0x49, 0x323, 0x69, 0x323, 0x4F, 0x323,
+    0x6F, 0x323, 0x4F, 0x309, 0x6F, 0x309, 0x4F, 0x302, 0x301, 0x6F, 0x302, 0x301, 0x4F, 0x302, 0x300, 0x6F,
+    0x302, 0x300, 0x4F, 0x302, 0x309, 0x6F, 0x302, 0x309, 0x4F, 0x302, 0x303, 0x6F, 0x302, 0x303, 0x4F, 0x323,
+    0x302, 0x6F, 0x323, 0x302, 0x4F, 0x31B, 0x301, 0x6F, 0x31B, 0x301, 0x4F, 0x31B, 0x300, 0x6F, 0x31B, 0x300,
+    0x4F, 0x31B, 0x309, 0x6F, 0x31B, 0x309, 0x4F, 0x31B, 0x303, 0x6F, 0x31B, 0x303, 0x4F, 0x31B, 0x323, 0x6F,
+    0x31B, 0x323, 0x55, 0x323, 0x75, 0x323, 0x55, 0x309, 0x75, 0x309, 0x55, 0x31B, 0x301, 0x75, 0x31B, 0x301,
+    0x55, 0x31B, 0x300, 0x75, 0x31B, 0x300, 0x55, 0x31B, 0x309, 0x75, 0x31B, 0x309, 0x55, 0x31B, 0x303, 0x75,
+    0x31B, 0x303, 0x55, 0x31B, 0x323, 0x75, 0x31B, 0x323, 0x59, 0x300, 0x79, 0x300, 0x59, 0x323, 0x79, 0x323,
+    0x59, 0x309, 0x79, 0x309, 0x59, 0x303, 0x79, 0x303, 0x3B1, 0x313, 0x3B1, 0x314, 0x3B1, 0x313, 0x300, 0x3B1,
+    0x314, 0x300, 0x3B1, 0x313, 0x301, 0x3B1, 0x314, 0x301, 0x3B1, 0x313, 0x342, 0x3B1, 0x314, 0x342, 0x391, 0x313,
+    0x391, 0x314, 0x391, 0x313, 0x300, 0x391, 0x314, 0x300, 0x391, 0x313, 0x301, 0x391, 0x314, 0x301, 0x391, 0x313,
+    0x342, 0x391, 0x314, 0x342, 0x3B5, 0x313, 0x3B5, 0x314, 0x3B5, 0x313, 0x300, 0x3B5, 0x314, 0x300, 0x3B5, 0x313,
+    0x301, 0x3B5, 0x314, 0x301, 0x395, 0x313, 0x395, 0x314, 0x395, 0x313, 0x300, 0x395, 0x314, 0x300, 0x395, 0x313,
+    0x301, 0x395, 0x314, 0x301, 0x3B7, 0x313, 0x3B7, 0x314, 0x3B7, 0x313, 0x300, 0x3B7, 0x314, 0x300, 0x3B7, 0x313,
+    0x301, 0x3B7, 0x314, 0x301, 0x3B7, 0x313, 0x342, 0x3B7, 0x314, 0x342, 0x397, 0x313, 0x397, 0x314, 0x397, 0x313,
+    0x300, 0x397, 0x314, 0x300, 0x397, 0x313, 0x301, 0x397, 0x314, 0x301, 0x397, 0x313, 0x342, 0x397, 0x314, 0x342,
+    0x3B9, 0x313, 0x3B9, 0x314, 0x3B9, 0x313, 0x300, 0x3B9, 0x314, 0x300, 0x3B9, 0x313, 0x301, 0x3B9, 0x314, 0x301,
+    0x3B9, 0x313, 0x342, 0x3B9, 0x314, 0x342, 0x399, 0x313, 0x399, 0x314, 0x399, 0x313, 0x300, 0x399, 0x314, 0x300,
+    0x399, 0x313, 0x301, 0x399, 0x314, 0x301, 0x399, 0x313, 0x342, 0x399, 0x314, 0x342, 0x3BF, 0x313, 0x3BF, 0x314,
+    0x3BF, 0x313, 0x300, 0x3BF, 0x314, 0x300, 0x3BF, 0x313, 0x301, 0x3BF, 0x314, 0x301, 0x39F, 0x313, 0x39F, 0x314,
+    0x39F, 0x313, 0x300, 0x39F, 0x314, 0x300, 0x39F, 0x313, 0x301, 0x39F, 0x314, 0x301, 0x3C5, 0x313, 0x3C5, 0x314,
+    0x3C5, 0x313, 0x300, 0x3C5, 0x314, 0x300, 0x3C5, 0x313, 0x301, 0x3C5, 0x314, 0x301, 0x3C5, 0x313, 0x342, 0x3C5,
+    0x314, 0x342, 0x3A5, 0x314, 0x3A5, 0x314, 0x300, 0x3A5, 0x314, 0x301, 0x3A5, 0x314, 0x342, 0x3C9, 0x313, 0x3C9,
+    0x314, 0x3C9, 0x313, 0x300, 0x3C9, 0x314, 0x300, 0x3C9, 0x313, 0x301, 0x3C9, 0x314, 0x301, 0x3C9, 0x313, 0x342,
+    0x3C9, 0x314, 0x342, 0x3A9, 0x313, 0x3A9, 0x314, 0x3A9, 0x313, 0x300, 0x3A9, 0x314, 0x300, 0x3A9, 0x313, 0x301,
+    0x3A9, 0x314, 0x301, 0x3A9, 0x313, 0x342, 0x3A9, 0x314, 0x342, 0x3B1, 0x300, 0x3B1, 0x301, 0x3B5, 0x300, 0x3B5,
+    0x301, 0x3B7, 0x300, 0x3B7, 0x301, 0x3B9, 0x300, 0x3B9, 0x301, 0x3BF, 0x300, 0x3BF, 0x301, 0x3C5, 0x300, 0x3C5,
+    0x301, 0x3C9, 0x300, 0x3C9, 0x301, 0x3B1, 0x313, 0x345, 0x3B1, 0x314, 0x345, 0x3B1, 0x313, 0x300, 0x345, 0x3B1,
+    0x314, 0x300, 0x345, 0x3B1, 0x313, 0x301, 0x345, 0x3B1, 0x314, 0x301, 0x345, 0x3B1, 0x313, 0x342, 0x345, 0x3B1,
+    0x314, 0x342, 0x345, 0x391, 0x313, 0x345, 0x391, 0x314, 0x345, 0x391, 0x313, 0x300, 0x345, 0x391, 0x314, 0x300,
+    0x345, 0x391, 0x313, 0x301, 0x345, 0x391, 0x314, 0x301, 0x345, 0x391, 0x313, 0x342, 0x345, 0x391, 0x314, 0x342,
+    0x345, 0x3B7, 0x313, 0x345, 0x3B7, 0x314, 0x345, 0x3B7, 0x313, 0x300, 0x345, 0x3B7, 0x314, 0x300, 0x345, 0x3B7,
+    0x313, 0x301, 0x345, 0x3B7, 0x314, 0x301, 0x345, 0x3B7, 0x313, 0x342, 0x345, 0x3B7, 0x314, 0x342, 0x345, 0x397,
+    0x313, 0x345, 0x397, 0x314, 0x345, 0x397, 0x313, 0x300, 0x345, 0x397, 0x314, 0x300, 0x345, 0x397, 0x313, 0x301,
+    0x345, 0x397, 0x314, 0x301, 0x345, 0x397, 0x313, 0x342, 0x345, 0x397, 0x314, 0x342, 0x345, 0x3C9, 0x313, 0x345,
+    0x3C9, 0x314, 0x345, 0x3C9, 0x313, 0x300, 0x345, 0x3C9, 0x314, 0x300, 0x345, 0x3C9, 0x313, 0x301, 0x345, 0x3C9,
+    0x314, 0x301, 0x345, 0x3C9, 0x313, 0x342, 0x345, 0x3C9, 0x314, 0x342, 0x345, 0x3A9, 0x313, 0x345, 0x3A9, 0x314,
+    0x345, 0x3A9, 0x313, 0x300, 0x345, 0x3A9, 0x314, 0x300, 0x345, 0x3A9, 0x313, 0x301, 0x345, 0x3A9, 0x314, 0x301,
+    0x345, 0x3A9, 0x313, 0x342, 0x345, 0x3A9, 0x314, 0x342, 0x345, 0x3B1, 0x306, 0x3B1, 0x304, 0x3B1, 0x300, 0x345,
+    0x3B1, 0x345, 0x3B1, 0x301, 0x345, 0x3B1, 0x342, 0x3B1, 0x342, 0x345, 0x391, 0x306, 0x391, 0x304, 0x391, 0x300,
+    0x391, 0x301, 0x391, 0x345, 0x3B9, 0xA8, 0x342, 0x3B7, 0x300, 0x345, 0x3B7, 0x345, 0x3B7, 0x301, 0x345, 0x3B7,
+    0x342, 0x3B7, 0x342, 0x345, 0x395, 0x300, 0x395, 0x301, 0x397, 0x300, 0x397, 0x301, 0x397, 0x345, 0x1FBF, 0x300,
+    0x1FBF, 0x301, 0x1FBF, 0x342, 0x3B9, 0x306, 0x3B9, 0x304, 0x3B9, 0x308, 0x300, 0x3B9, 0x308, 0x301, 0x3B9, 0x342,
+    0x3B9, 0x308, 0x342, 0x399, 0x306, 0x399, 0x304, 0x399, 0x300, 0x399, 0x301, 0x1FFE, 0x300, 0x1FFE, 0x301, 0x1FFE,
+    0x342, 0x3C5, 0x306, 0x3C5, 0x304, 0x3C5, 0x308, 0x300, 0x3C5, 0x308, 0x301, 0x3C1, 0x313, 0x3C1, 0x314, 0x3C5,
+    0x342, 0x3C5, 0x308, 0x342, 0x3A5, 0x306, 0x3A5, 0x304, 0x3A5, 0x300, 0x3A5, 0x301, 0x3A1, 0x314, 0xA8, 0x300,
+    0xA8, 0x301, 0x60, 0x3C9, 0x300, 0x345, 0x3C9, 0x345, 0x3C9, 0x301, 0x345, 0x3C9, 0x342, 0x3C9, 0x342, 0x345,
+    0x39F, 0x300, 0x39F, 0x301, 0x3A9, 0x300, 0x3A9, 0x301, 0x3A9, 0x345, 0xB4, 0x2002, 0x2003, 0x3A9, 0x4B, 0x41,
+    0x30A, 0x2190, 0x338, 0x2192, 0x338, 0x2194, 0x338, 0x21D0, 0x338, 0x21D4, 0x338, 0x21D2, 0x338, 0x2203, 0x338, 0x2208,
+    0x338, 0x220B, 0x338, 0x2223, 0x338, 0x2225, 0x338, 0x223C, 0x338, 0x2243, 0x338, 0x2245, 0x338, 0x2248, 0x338, 0x3D,
+    0x338, 0x2261, 0x338, 0x224D, 0x338, 0x3C, 0x338, 0x3E, 0x338, 0x2264, 0x338, 0x2265, 0x338, 0x2272, 0x338, 0x2273,
+    0x338, 0x2276, 0x338, 0x2277, 0x338, 0x227A, 0x338, 0x227B, 0x338, 0x2282, 0x338, 0x2283, 0x338, 0x2286, 0x338, 0x2287,
+    0x338, 0x22A2, 0x338, 0x22A8, 0x338, 0x22A9, 0x338, 0x22AB, 0x338, 0x227C, 0x338, 0x227D, 0x338, 0x2291, 0x338, 0x2292,
+    0x338, 0x22B2, 0x338, 0x22B3, 0x338, 0x22B4, 0x338, 0x22B5, 0x338, 0x3008, 0x3009, 0x2ADD, 0x338, 0x304B, 0x3099, 0x304D,
+    0x3099, 0x304F, 0x3099, 0x3051, 0x3099, 0x3053, 0x3099, 0x3055, 0x3099, 0x3057, 0x3099, 0x3059, 0x3099, 0x305B, 0x3099, 0x305D,
+    0x3099, 0x305F, 0x3099, 0x3061, 0x3099, 0x3064, 0x3099, 0x3066, 0x3099, 0x3068, 0x3099, 0x306F, 0x3099, 0x306F, 0x309A, 0x3072,
+    0x3099, 0x3072, 0x309A, 0x3075, 0x3099, 0x3075, 0x309A, 0x3078, 0x3099, 0x3078, 0x309A, 0x307B, 0x3099, 0x307B, 0x309A, 0x3046,
+    0x3099, 0x309D, 0x3099, 0x30AB, 0x3099, 0x30AD, 0x3099, 0x30AF, 0x3099, 0x30B1, 0x3099, 0x30B3, 0x3099, 0x30B5, 0x3099, 0x30B7,
+    0x3099, 0x30B9, 0x3099, 0x30BB, 0x3099, 0x30BD, 0x3099, 0x30BF, 0x3099, 0x30C1, 0x3099, 0x30C4, 0x3099, 0x30C6, 0x3099, 0x30C8,
+    0x3099, 0x30CF, 0x3099, 0x30CF, 0x309A, 0x30D2, 0x3099, 0x30D2, 0x309A, 0x30D5, 0x3099, 0x30D5, 0x309A, 0x30D8, 0x3099, 0x30D8,
+    0x309A, 0x30DB, 0x3099, 0x30DB, 0x309A, 0x30A6, 0x3099, 0x30EF, 0x3099, 0x30F0, 0x3099, 0x30F1, 0x3099, 0x30F2, 0x3099, 0x30FD,
+    0x3099, 0x8C48, 0x66F4, 0x8ECA, 0x8CC8, 0x6ED1, 0x4E32, 0x53E5, 0x9F9C, 0x9F9C, 0x5951, 0x91D1, 0x5587, 0x5948, 0x61F6, 0x7669,
+    0x7F85, 0x863F, 0x87BA, 0x88F8, 0x908F, 0x6A02, 0x6D1B, 0x70D9, 0x73DE, 0x843D, 0x916A, 0x99F1, 0x4E82, 0x5375, 0x6B04, 0x721B,
+    0x862D, 0x9E1E, 0x5D50, 0x6FEB, 0x85CD, 0x8964, 0x62C9, 0x81D8, 0x881F, 0x5ECA, 0x6717, 0x6D6A, 0x72FC, 0x90CE, 0x4F86, 0x51B7,
+    0x52DE, 0x64C4, 0x6AD3, 0x7210, 0x76E7, 0x8001, 0x8606, 0x865C, 0x8DEF, 0x9732, 0x9B6F, 0x9DFA, 0x788C, 0x797F, 0x7DA0, 0x83C9,
+    0x9304, 0x9E7F, 0x8AD6, 0x58DF, 0x5F04, 0x7C60, 0x807E, 0x7262, 0x78CA, 0x8CC2, 0x96F7, 0x58D8, 0x5C62, 0x6A13, 0x6DDA, 0x6F0F,
+    0x7D2F, 0x7E37, 0x964B, 0x52D2, 0x808B, 0x51DC, 0x51CC, 0x7A1C, 0x7DBE, 0x83F1, 0x9675, 0x8B80, 0x62CF, 0x6A02, 0x8AFE, 0x4E39,
+    0x5BE7, 0x6012, 0x7387, 0x7570, 0x5317, 0x78FB, 0x4FBF, 0x5FA9, 0x4E0D, 0x6CCC, 0x6578, 0x7D22, 0x53C3, 0x585E, 0x7701, 0x8449,
+    0x8AAA, 0x6BBA, 0x8FB0, 0x6C88, 0x62FE, 0x82E5, 0x63A0, 0x7565, 0x4EAE, 0x5169, 0x51C9, 0x6881, 0x7CE7, 0x826F, 0x8AD2, 0x91CF,
+    0x52F5, 0x5442, 0x5973, 0x5EEC, 0x65C5, 0x6FFE, 0x792A, 0x95AD, 0x9A6A, 0x9E97, 0x9ECE, 0x529B, 0x66C6, 0x6B77, 0x8F62, 0x5E74,
+    0x6190, 0x6200, 0x649A, 0x6F23, 0x7149, 0x7489, 0x79CA, 0x7DF4, 0x806F, 0x8F26, 0x84EE, 0x9023, 0x934A, 0x5217, 0x52A3, 0x54BD,
+    0x70C8, 0x88C2, 0x8AAA, 0x5EC9, 0x5FF5, 0x637B, 0x6BAE, 0x7C3E, 0x7375, 0x4EE4, 0x56F9, 0x5BE7, 0x5DBA, 0x601C, 0x73B2, 0x7469,
+    0x7F9A, 0x8046, 0x9234, 0x96F6, 0x9748, 0x9818, 0x4F8B, 0x79AE, 0x91B4, 0x96B8, 0x60E1, 0x4E86, 0x50DA, 0x5BEE, 0x5C3F, 0x6599,
+    0x6A02, 0x71CE, 0x7642, 0x84FC, 0x907C, 0x9F8D, 0x6688, 0x962E, 0x5289, 0x677B, 0x67F3, 0x6D41, 0x6E9C, 0x7409, 0x7559, 0x786B,
+    0x7D10, 0x985E, 0x516D, 0x622E, 0x9678, 0x502B, 0x5D19, 0x6DEA, 0x8F2A, 0x5F8B, 0x6144, 0x6817, 0x7387, 0x9686, 0x5229, 0x540F,
+    0x5C65, 0x6613, 0x674E, 0x68A8, 0x6CE5, 0x7406, 0x75E2, 0x7F79, 0x88CF, 0x88E1, 0x91CC, 0x96E2, 0x533F, 0x6EBA, 0x541D, 0x71D0,
+    0x7498, 0x85FA, 0x96A3, 0x9C57, 0x9E9F, 0x6797, 0x6DCB, 0x81E8, 0x7ACB, 0x7B20, 0x7C92, 0x72C0, 0x7099, 0x8B58, 0x4EC0, 0x8336,
+    0x523A, 0x5207, 0x5EA6, 0x62D3, 0x7CD6, 0x5B85, 0x6D1E, 0x66B4, 0x8F3B, 0x884C, 0x964D, 0x898B, 0x5ED3, 0x5140, 0x55C0, 0x585A,
+    0x6674, 0x51DE, 0x732A, 0x76CA, 0x793C, 0x795E, 0x7965, 0x798F, 0x9756, 0x7CBE, 0x7FBD, 0x8612, 0x8AF8, 0x9038, 0x90FD, 0x98EF,
+    0x98FC, 0x9928, 0x9DB4, 0x90DE, 0x96B7, 0x4FAE, 0x50E7, 0x514D, 0x52C9, 0x52E4, 0x5351, 0x559D, 0x5606, 0x5668, 0x5840, 0x58A8,
+    0x5C64, 0x5C6E, 0x6094, 0x6168, 0x618E, 0x61F2, 0x654F, 0x65E2, 0x6691, 0x6885, 0x6D77, 0x6E1A, 0x6F22, 0x716E, 0x722B, 0x7422,
+    0x7891, 0x793E, 0x7949, 0x7948, 0x7950, 0x7956, 0x795D, 0x798D, 0x798E, 0x7A40, 0x7A81, 0x7BC0, 0x7DF4, 0x7E09, 0x7E41, 0x7F72,
+    0x8005, 0x81ED, 0x8279, 0x8279, 0x8457, 0x8910, 0x8996, 0x8B01, 0x8B39, 0x8CD3, 0x8D08, 0x8FB6, 0x9038, 0x96E3, 0x97FF, 0x983B,
+    0x6075, 0xD850, 0xDEEE, 0x8218, 0x4E26, 0x51B5, 0x5168, 0x4F80, 0x5145, 0x5180, 0x52C7, 0x52FA, 0x559D, 0x5555, 0x5599, 0x55E2,
+    0x585A, 0x58B3, 0x5944, 0x5954, 0x5A62, 0x5B28, 0x5ED2, 0x5ED9, 0x5F69, 0x5FAD, 0x60D8, 0x614E, 0x6108, 0x618E, 0x6160, 0x61F2,
+    0x6234, 0x63C4, 0x641C, 0x6452, 0x6556, 0x6674, 0x6717, 0x671B, 0x6756, 0x6B79, 0x6BBA, 0x6D41, 0x6EDB, 0x6ECB, 0x6F22, 0x701E,
+    0x716E, 0x77A7, 0x7235, 0x72AF, 0x732A, 0x7471, 0x7506, 0x753B, 0x761D, 0x761F, 0x76CA, 0x76DB, 0x76F4, 0x774A, 0x7740, 0x78CC,
+    0x7AB1, 0x7BC0, 0x7C7B, 0x7D5B, 0x7DF4, 0x7F3E, 0x8005, 0x8352, 0x83EF, 0x8779, 0x8941, 0x8986, 0x8996, 0x8ABF, 0x8AF8, 0x8ACB,
+    0x8B01, 0x8AFE, 0x8AED, 0x8B39, 0x8B8A, 0x8D08, 0x8F38, 0x9072, 0x9199, 0x9276, 0x967C, 0x96E3, 0x9756, 0x97DB, 0x97FF, 0x980B,
+    0x983B, 0x9B12, 0x9F9C, 0xD84A, 0xDC4A, 0xD84A, 0xDC44, 0xD84C, 0xDFD5, 0x3B9D, 0x4018, 0x4039, 0xD854, 0xDE49, 0xD857, 0xDCD0,
+    0xD85F, 0xDED3, 0x9F43, 0x9F8E, 0x5D9, 0x5B4, 0x5F2, 0x5B7, 0x5E9, 0x5C1, 0x5E9, 0x5C2, 0x5E9, 0x5BC, 0x5C1, 0x5E9,
+    0x5BC, 0x5C2, 0x5D0, 0x5B7, 0x5D0, 0x5B8, 0x5D0, 0x5BC, 0x5D1, 0x5BC, 0x5D2, 0x5BC, 0x5D3, 0x5BC, 0x5D4, 0x5BC,
+    0x5D5, 0x5BC, 0x5D6, 0x5BC, 0x5D8, 0x5BC, 0x5D9, 0x5BC, 0x5DA, 0x5BC, 0x5DB, 0x5BC, 0x5DC, 0x5BC, 0x5DE, 0x5BC,
+    0x5E0, 0x5BC, 0x5E1, 0x5BC, 0x5E3, 0x5BC, 0x5E4, 0x5BC, 0x5E6, 0x5BC, 0x5E7, 0x5BC, 0x5E8, 0x5BC, 0x5E9, 0x5BC,
+    0x5EA, 0x5BC, 0x5D5, 0x5B9, 0x5D1, 0x5BF, 0x5DB, 0x5BF, 0x5E4, 0x5BF, 0xD801, 0xDDD2, 0x307, 0xD801, 0xDDDA, 0x307,
+    0xD804, 0xDC99, 0xD804, 0xDCBA, 0xD804, 0xDC9B, 0xD804, 0xDCBA, 0xD804, 0xDCA5, 0xD804, 0xDCBA, 0xD804, 0xDD31, 0xD804, 0xDD27,
+    0xD804, 0xDD32, 0xD804, 0xDD27, 0xD804, 0xDF47, 0xD804, 0xDF3E, 0xD804, 0xDF47, 0xD804, 0xDF57, 0xD804, 0xDF82, 0xD804, 0xDFC9,
+    0xD804, 0xDF84, 0xD804, 0xDFBB, 0xD804, 0xDF8B, 0xD804, 0xDFC2, 0xD804, 0xDF90, 0xD804, 0xDFC9, 0xD804, 0xDFC2, 0xD804, 0xDFC2,
+    0xD804, 0xDFC2, 0xD804, 0xDFB8, 0xD804, 0xDFC2, 0xD804, 0xDFC9, 0xD805, 0xDCB9, 0xD805, 0xDCBA, 0xD805, 0xDCB9, 0xD805, 0xDCB0,
+    0xD805, 0xDCB9, 0xD805, 0xDCBD, 0xD805, 0xDDB8, 0xD805, 0xDDAF, 0xD805, 0xDDB9, 0xD805, 0xDDAF, 0xD806, 0xDD35, 0xD806, 0xDD30,
+    0xD818, 0xDD1E, 0xD818, 0xDD1E, 0xD818, 0xDD1E, 0xD818, 0xDD29, 0xD818, 0xDD1E, 0xD818, 0xDD1F, 0xD818, 0xDD29, 0xD818, 0xDD1F,
+    0xD818, 0xDD1E, 0xD818, 0xDD20, 0xD818, 0xDD1E, 0xD818, 0xDD1E, 0xD818, 0xDD1F, 0xD818, 0xDD1E, 0xD818, 0xDD29, 0xD818, 0xDD1F,
+    0xD818, 0xDD1E, 0xD818, 0xDD1E, 0xD818, 0xDD20, 0xD81B, 0xDD67, 0xD81B, 0xDD67, 0xD81B, 0xDD63, 0xD81B, 0xDD67, 0xD81B, 0xDD63,
+    0xD81B, 0xDD67, 0xD81B, 0xDD67, 0xD834, 0xDD57, 0xD834, 0xDD65, 0xD834, 0xDD58, 0xD834, 0xDD65, 0xD834, 0xDD58, 0xD834, 0xDD65,
+    0xD834, 0xDD6E, 0xD834, 0xDD58, 0xD834, 0xDD65, 0xD834, 0xDD6F, 0xD834, 0xDD58, 0xD834, 0xDD65, 0xD834, 0xDD70, 0xD834, 0xDD58,
+    0xD834, 0xDD65, 0xD834, 0xDD71, 0xD834, 0xDD58, 0xD834, 0xDD65, 0xD834, 0xDD72, 0xD834, 0xDDB9, 0xD834, 0xDD65, 0xD834, 0xDDBA,
+    0xD834, 0xDD65, 0xD834, 0xDDB9, 0xD834, 0xDD65, 0xD834, 0xDD6E, 0xD834, 0xDDBA, 0xD834, 0xDD65, 0xD834, 0xDD6E, 0xD834, 0xDDB9,
+    0xD834, 0xDD65, 0xD834, 0xDD6F, 0xD834, 0xDDBA, 0xD834, 0xDD65, 0xD834, 0xDD6F, 0x4E3D, 0x4E38, 0x4E41, 0xD840, 0xDD22, 0x4F60,
+    0x4FAE, 0x4FBB, 0x5002, 0x507A, 0x5099, 0x50E7, 0x50CF, 0x349E, 0xD841, 0xDE3A, 0x514D, 0x5154, 0x5164, 0x5177, 0xD841, 0xDD1C,
+    0x34B9, 0x5167, 0x518D, 0xD841, 0xDD4B, 0x5197, 0x51A4, 0x4ECC, 0x51AC, 0x51B5, 0xD864, 0xDDDF, 0x51F5, 0x5203, 0x34DF, 0x523B,
+    0x5246, 0x5272, 0x5277, 0x3515, 0x52C7, 0x52C9, 0x52E4, 0x52FA, 0x5305, 0x5306, 0x5317, 0x5349, 0x5351, 0x535A, 0x5373, 0x537D,
+    0x537F, 0x537F, 0x537F, 0xD842, 0xDE2C, 0x7070, 0x53CA, 0x53DF, 0xD842, 0xDF63, 0x53EB, 0x53F1, 0x5406, 0x549E, 0x5438, 0x5448,
+    0x5468, 0x54A2, 0x54F6, 0x5510, 0x5553, 0x5563, 0x5584, 0x5584, 0x5599, 0x55AB, 0x55B3, 0x55C2, 0x5716, 0x5606, 0x5717, 0x5651,
+    0x5674, 0x5207, 0x58EE, 0x57CE, 0x57F4, 0x580D, 0x578B, 0x5832, 0x5831, 0x58AC, 0xD845, 0xDCE4, 0x58F2, 0x58F7, 0x5906, 0x591A,
+    0x5922, 0x5962, 0xD845, 0xDEA8, 0xD845, 0xDEEA, 0x59EC, 0x5A1B, 0x5A27, 0x59D8, 0x5A66, 0x36EE, 0x36FC, 0x5B08, 0x5B3E, 0x5B3E,
+    0xD846, 0xDDC8, 0x5BC3, 0x5BD8, 0x5BE7, 0x5BF3, 0xD846, 0xDF18, 0x5BFF, 0x5C06, 0x5F53, 0x5C22, 0x3781, 0x5C60, 0x5C6E, 0x5CC0,
+    0x5C8D, 0xD847, 0xDDE4, 0x5D43, 0xD847, 0xDDE6, 0x5D6E, 0x5D6B, 0x5D7C, 0x5DE1, 0x5DE2, 0x382F, 0x5DFD, 0x5E28, 0x5E3D, 0x5E69,
+    0x3862, 0xD848, 0xDD83, 0x387C, 0x5EB0, 0x5EB3, 0x5EB6, 0x5ECA, 0xD868, 0xDF92, 0x5EFE, 0xD848, 0xDF31, 0xD848, 0xDF31, 0x8201,
+    0x5F22, 0x5F22, 0x38C7, 0xD84C, 0xDEB8, 0xD858, 0xDDDA, 0x5F62, 0x5F6B, 0x38E3, 0x5F9A, 0x5FCD, 0x5FD7, 0x5FF9, 0x6081, 0x393A,
+    0x391C, 0x6094, 0xD849, 0xDED4, 0x60C7, 0x6148, 0x614C, 0x614E, 0x614C, 0x617A, 0x618E, 0x61B2, 0x61A4, 0x61AF, 0x61DE, 0x61F2,
+    0x61F6, 0x6210, 0x621B, 0x625D, 0x62B1, 0x62D4, 0x6350, 0xD84A, 0xDF0C, 0x633D, 0x62FC, 0x6368, 0x6383, 0x63E4, 0xD84A, 0xDFF1,
+    0x6422, 0x63C5, 0x63A9, 0x3A2E, 0x6469, 0x647E, 0x649D, 0x6477, 0x3A6C, 0x654F, 0x656C, 0xD84C, 0xDC0A, 0x65E3, 0x66F8, 0x6649,
+    0x3B19, 0x6691, 0x3B08, 0x3AE4, 0x5192, 0x5195, 0x6700, 0x669C, 0x80AD, 0x43D9, 0x6717, 0x671B, 0x6721, 0x675E, 0x6753, 0xD84C,
+    0xDFC3, 0x3B49, 0x67FA, 0x6785, 0x6852, 0x6885, 0xD84D, 0xDC6D, 0x688E, 0x681F, 0x6914, 0x3B9D, 0x6942, 0x69A3, 0x69EA, 0x6AA8,
+    0xD84D, 0xDEA3, 0x6ADB, 0x3C18, 0x6B21, 0xD84E, 0xDCA7, 0x6B54, 0x3C4E, 0x6B72, 0x6B9F, 0x6BBA, 0x6BBB, 0xD84E, 0xDE8D, 0xD847,
+    0xDD0B, 0xD84E, 0xDEFA, 0x6C4E, 0xD84F, 0xDCBC, 0x6CBF, 0x6CCD, 0x6C67, 0x6D16, 0x6D3E, 0x6D77, 0x6D41, 0x6D69, 0x6D78, 0x6D85,
+    0xD84F, 0xDD1E, 0x6D34, 0x6E2F, 0x6E6E, 0x3D33, 0x6ECB, 0x6EC7, 0xD84F, 0xDED1, 0x6DF9, 0x6F6E, 0xD84F, 0xDF5E, 0xD84F, 0xDF8E,
+    0x6FC6, 0x7039, 0x701E, 0x701B, 0x3D96, 0x704A, 0x707D, 0x7077, 0x70AD, 0xD841, 0xDD25, 0x7145, 0xD850, 0xDE63, 0x719C, 0xD850,
+    0xDFAB, 0x7228, 0x7235, 0x7250, 0xD851, 0xDE08, 0x7280, 0x7295, 0xD851, 0xDF35, 0xD852, 0xDC14, 0x737A, 0x738B, 0x3EAC, 0x73A5,
+    0x3EB8, 0x3EB8, 0x7447, 0x745C, 0x7471, 0x7485, 0x74CA, 0x3F1B, 0x7524, 0xD853, 0xDC36, 0x753E, 0xD853, 0xDC92, 0x7570, 0xD848,
+    0xDD9F, 0x7610, 0xD853, 0xDFA1, 0xD853, 0xDFB8, 0xD854, 0xDC44, 0x3FFC, 0x4008, 0x76F4, 0xD854, 0xDCF3, 0xD854, 0xDCF2, 0xD854,
+    0xDD19, 0xD854, 0xDD33, 0x771E, 0x771F, 0x771F, 0x774A, 0x4039, 0x778B, 0x4046, 0x4096, 0xD855, 0xDC1D, 0x784E, 0x788C, 0x78CC,
+    0x40E3, 0xD855, 0xDE26, 0x7956, 0xD855, 0xDE9A, 0xD855, 0xDEC5, 0x798F, 0x79EB, 0x412F, 0x7A40, 0x7A4A, 0x7A4F, 0xD856, 0xDD7C,
+    0xD856, 0xDEA7, 0xD856, 0xDEA7, 0x7AEE, 0x4202, 0xD856, 0xDFAB, 0x7BC6, 0x7BC9, 0x4227, 0xD857, 0xDC80, 0x7CD2, 0x42A0, 0x7CE8,
+    0x7CE3, 0x7D00, 0xD857, 0xDF86, 0x7D63, 0x4301, 0x7DC7, 0x7E02, 0x7E45, 0x4334, 0xD858, 0xDE28, 0xD858, 0xDE47, 0x4359, 0xD858,
+    0xDED9, 0x7F7A, 0xD858, 0xDF3E, 0x7F95, 0x7FFA, 0x8005, 0xD859, 0xDCDA, 0xD859, 0xDD23, 0x8060, 0xD859, 0xDDA8, 0x8070, 0xD84C,
+    0xDF5F, 0x43D5, 0x80B2, 0x8103, 0x440B, 0x813E, 0x5AB5, 0xD859, 0xDFA7, 0xD859, 0xDFB5, 0xD84C, 0xDF93, 0xD84C, 0xDF9C, 0x8201,
+    0x8204, 0x8F9E, 0x446B, 0x8291, 0x828B, 0x829D, 0x52B3, 0x82B1, 0x82B3, 0x82BD, 0x82E6, 0xD85A, 0xDF3C, 0x82E5, 0x831D, 0x8363,
+    0x83AD, 0x8323, 0x83BD, 0x83E7, 0x8457, 0x8353, 0x83CA, 0x83CC, 0x83DC, 0xD85B, 0xDC36, 0xD85B, 0xDD6B, 0xD85B, 0xDCD5, 0x452B,
+    0x84F1, 0x84F3, 0x8516, 0xD85C, 0xDFCA, 0x8564, 0xD85B, 0xDF2C, 0x455D, 0x4561, 0xD85B, 0xDFB1, 0xD85C, 0xDCD2, 0x456B, 0x8650,
+    0x865C, 0x8667, 0x8669, 0x86A9, 0x8688, 0x870E, 0x86E2, 0x8779, 0x8728, 0x876B, 0x8786, 0x45D7, 0x87E1, 0x8801, 0x45F9, 0x8860,
+    0x8863, 0xD85D, 0xDE67, 0x88D7, 0x88DE, 0x4635, 0x88FA, 0x34BB, 0xD85E, 0xDCAE, 0xD85E, 0xDD66, 0x46BE, 0x46C7, 0x8AA0, 0x8AED,
+    0x8B8A, 0x8C55, 0xD85F, 0xDCA8, 0x8CAB, 0x8CC1, 0x8D1B, 0x8D77, 0xD85F, 0xDF2F, 0xD842, 0xDC04, 0x8DCB, 0x8DBC, 0x8DF0, 0xD842,
+    0xDCDE, 0x8ED4, 0x8F38, 0xD861, 0xDDD2, 0xD861, 0xDDED, 0x9094, 0x90F1, 0x9111, 0xD861, 0xDF2E, 0x911B, 0x9238, 0x92D7, 0x92D8,
+    0x927C, 0x93F9, 0x9415, 0xD862, 0xDFFA, 0x958B, 0x4995, 0x95B7, 0xD863, 0xDD77, 0x49E6, 0x96C3, 0x5DB2, 0x9723, 0xD864, 0xDD45,
+    0xD864, 0xDE1A, 0x4A6E, 0x4A76, 0x97E0, 0xD865, 0xDC0A, 0x4AB2, 0xD865, 0xDC96, 0x980B, 0x980B, 0x9829, 0xD865, 0xDDB6, 0x98E2,
+    0x4B33, 0x9929, 0x99A7, 0x99C2, 0x99FE, 0x4BCE, 0xD866, 0xDF30, 0x9B12, 0x9C40, 0x9CFD, 0x4CCE, 0x4CED, 0x9D67, 0xD868, 0xDCCE,
+    0x4CF8, 0xD868, 0xDD05, 0xD868, 0xDE0E, 0xD868, 0xDE91, 0x9EBB, 0x4D56, 0x9EF9, 0x9EFE, 0x9F05, 0x9F0F, 0x9F16, 0x9F3B, 0xD869,
+    0xDE00
+  ];
+  return table; // inlines to a constant memory offset
+}
+
+/** Full compatibility decompositions differing from canonical ones, as `code point, offset << 5 | length`. */
+@inline
+export function COMPATIBILITY_DECOMPOSITIONS(): i32[] {
+  const table: i32[] = [
+    0xA0, 0x1,
+    0xA8, 0x22,
+    0xAA, 0x61,
+    0xAF, 0x82,
+    0xB2, 0xC1,
+    0xB3, 0xE1,
+    0xB4, 0x102,
+    0xB5, 0x141,
+    0xB8, 0x162,
+    0xB9, 0x1A1,
+    0xBA, 0x1C1,
+    0xBC, 0x1E3,
+    0xBD, 0x243,
+    0xBE, 0x2A3,
+    0x132, 0x302,
+    0x133, 0x342,
+    0x13F, 0x382,
+    0x140, 0x3C2,
+    0x149, 0x402,
+    0x17F, 0x441,
+    0x1C4, 0x463,
+    0x1C5, 0x4C3,
+    0x1C6, 0x523,
+    0x1C7, 0x582,
+    0x1C8, 0x5C2,
+    0x1C9, 0x602,
+    0x1CA, 0x642,
+    0x1CB, 0x682,
+    0x1CC, 0x6C2,
+    0x1F1, 0x702,
+    0x1F2, 0x742,
+    0x1F3, 0x782,
+    0x2B0, 0x7C1,
+    0x2B1, 0x7E1,
+    0x2B2, 0x801,
+    0x2B3, 0x821,
+    0x2B4, 0x841,
+    0x2B5, 0x861,
+    0x2B6, 0x881,
+    0x2B7, 0x8A1,
+    0x2B8, 0x8C1,
+    0x2D8, 0x8E2,
+    0x2D9, 0x922,
+    0x2DA, 0x962,
+    0x2DB, 0x9A2,
+    0x2DC, 0x9E2,
+    0x2DD, 0xA22,
+    0x2E0, 0xA61,
+    0x2E1, 0xA81,
+    0x2E2, 0xAA1,
+    0x2E3, 0xAC1,
+    0x2E4, 0xAE1,
+    0x37A, 0xB02,
+    0x384, 0xB42,
+    0x385, 0xB83,
+    0x3D0, 0xBE1,
+    0x3D1, 0xC01,
+    0x3D2, 0xC21,
+    0x3D3, 0xC42,
+    0x3D4, 0xC82,
+    0x3D5, 0xCC1,
+    0x3D6, 0xCE1,
+    0x3F0, 0xD01,
+    0x3F1, 0xD21,
+    0x3F2, 0xD41,
+    0x3F4, 0xD61,
+    0x3F5, 0xD81,
+    0x3F9, 0xDA1,
+    0x587, 0xDC2,
+    0x675, 0xE02,
+    0x676, 0xE42,
+    0x677, 0xE82,
+    0x678, 0xEC2,
+    0xE33, 0xF02,
+    0xEB3, 0xF42,
+    0xEDC, 0xF82,
+    0xEDD, 0xFC2,
+    0xF0C, 0x1001,
+    0xF77, 0x1023,
+    0xF79, 0x1083,
+    0x10FC, 0x10E1,
+    0x1D2C, 0x1101,
+    0x1D2D, 0x1121,
+    0x1D2E, 0x1141,
+    0x1D30, 0x1161,
+    0x1D31, 0x1181,
+    0x1D32, 0x11A1,
+    0x1D33, 0x11C1,
+    0x1D34, 0x11E1,
+    0x1D35, 0x1201,
+    0x1D36, 0x1221,
+    0x1D37, 0x1241,
+    0x1D38, 0x1261,
+    0x1D39, 0x1281,
+    0x1D3A, 0x12A1,
+    0x1D3C, 0x12C1,
+    0x1D3D, 0x12E1,
+    0x1D3E, 0x1301,
+    0x1D3F, 0x1321,
+    0x1D40, 0x1341,
+    0x1D41, 0x1361,
+    0x1D42, 0x1381,
+    0x1D43, 0x13A1,
+    0x1D44, 0x13C1,
+    0x1D45, 0x13E1,
+    0x1D46, 0x1401,
+    0x1D47, 0x1421,
+    0x1D48, 0x1441,
+    0x1D49, 0x1461,
+    0x1D4A, 0x1481,
+    0x1D4B, 0x14A1,
+    0x1D4C, 0x14C1,
+    0x1D4D, 0x14E1,
+    0x1D4F, 0x1501,
+    0x1D50, 0x1521,
+    0x1D51, 0x1541,
+    0x1D52, 0x1561,
+    0x1D53, 0x1581,
+    0x1D54, 0x15A1,
+    0x1D55, 0x15C1,
+    0x1D56, 0x15E1,
+    0x1D57, 0x1601,
+    0x1D58, 0x1621,
+    0x1D59, 0x1641,
+    0x1D5A, 0x1661,
+    0x1D5B, 0x1681,
+    0x1D5C, 0x16A1,
+    0x1D5D, 0x16C1,
+    0x1D5E, 0x16E1,
+    0x1D5F, 0x1701,
+    0x1D60, 0x1721,
+    0x1D61, 0x1741,
+    0x1D62, 0x1761,
+    0x1D63, 0x1781,
+    0x1D64, 0x17A1,
+    0x1D65, 0x17C1,
+    0x1D66, 0x17E1,
+    0x1D67, 0x1801,
+    0x1D68, 0x1821,
+    0x1D69, 0x1841,
+    0x1D6A, 0x1861,
+    0x1D78, 0x1881,
+    0x1D9B, 0x18A1,
+    0x1D9C, 0x18C1,
+    0x1D9D, 0x18E1,
+    0x1D9E, 0x1901,
+    0x1D9F, 0x1921,
+    0x1DA0, 0x1941,
+    0x1DA1, 0x1961,
+    0x1DA2, 0x1981,
+    0x1DA3, 0x19A1,
+    0x1DA4, 0x19C1,
+    0x1DA5, 0x19E1,
+    0x1DA6, 0x1A01,
+    0x1DA7, 0x1A21,
+    0x1DA8, 0x1A41,
+    0x1DA9, 0x1A61,
+    0x1DAA, 0x1A81,
+    0x1DAB, 0x1AA1,
+    0x1DAC, 0x1AC1,
+    0x1DAD, 0x1AE1,
+    0x1DAE, 0x1B01,
+    0x1DAF, 0x1B21,
+    0x1DB0, 0x1B41,
+    0x1DB1, 0x1B61,
+    0x1DB2, 0x1B81,
+    0x1DB3, 0x1BA1,
+    0x1DB4, 0x1BC1,
+    0x1DB5, 0x1BE1,
+    0x1DB6, 0x1C01,
+    0x1DB7, 0x1C21,
+    0x1DB8, 0x1C41,
+    0x1DB9, 0x1C61,
+    0x1DBA, 0x1C81,
+    0x1DBB, 0x1CA1,
+    0x1DBC, 0x1CC1,
+    0x1DBD, 0x1CE1,
+    0x1DBE, 0x1D01,
+    0x1DBF, 0x1D21,
+    0x1E9A, 0x1D42,
+    0x1E9B, 0x1D82,
+    0x1FBD, 0x1DC2,
+    0x1FBF, 0x1E02,
+    0x1FC0, 0x1E42,
+    0x1FC1, 0x1E83,
+    0x1FCD, 0x1EE3,
+    0x1FCE, 0x1F43,
+    0x1FCF, 0x1FA3,
+    0x1FDD, 0x2003,
+    0x1FDE, 0x2063,
+    0x1FDF, 0x20C3,
+    0x1FED, 0x2123,
+    0x1FEE, 0x2183,
+    0x1FFD, 0x21E2,
+    0x1FFE, 0x2222,
+    0x2000, 0x2261,
+    0x2001, 0x2281,
+    0x2002, 0x22A1,
+    0x2003, 0x22C1,
+    0x2004, 0x22E1,
+    0x2005, 0x2301,
+    0x2006, 0x2321,
+    0x2007, 0x2341,
+    0x2008, 0x2361,
+    0x2009, 0x2381,
+    0x200A, 0x23A1,
+    0x2011, 0x23C1,
+    0x2017, 0x23E2,
+    0x2024, 0x2421,
+    0x2025, 0x2442,
+    0x2026, 0x2483,
+    0x202F, 0x24E1,
+    0x2033, 0x2502,
+    0x2034, 0x2543,
+    0x2036, 0x25A2,
+    0x2037, 0x25E3,
+    0x203C, 0x2642,
+    0x203E, 0x2682,
+    0x2047, 0x26C2,
+    0x2048, 0x2702,
+    0x2049, 0x2742,
+    0x2057, 0x2784,
+    0x205F, 0x2801,
+    0x2070, 0x2821,
+    0x2071, 0x2841,
+    0x2074, 0x2861,
+    0x2075, 0x2881,
+    0x2076, 0x28A1,
+    0x2077, 0x28C1,
+    0x2078, 0x28E1,
+    0x2079, 0x2901,
+    0x207A, 0x2921,
+    0x207B, 0x2941,
+    0x207C, 0x2961,
+    0x207D, 0x2981,
+    0x207E, 0x29A1,
+    0x207F, 0x29C1,
+    0x2080, 0x29E1,
+    0x2081, 0x2A01,
+    0x2082, 0x2A21,
+    0x2083, 0x2A41,
+    0x2084, 0x2A61,
+    0x2085, 0x2A81,
+    0x2086, 0x2AA1,
+    0x2087, 0x2AC1,
+    0x2088, 0x2AE1,
+    0x2089, 0x2B01,
+    0x208A, 0x2B21,
+    0x208B, 0x2B41,
+    0x208C, 0x2B61,
+    0x208D, 0x2B81,
+    0x208E, 0x2BA1,
+    0x2090, 0x2BC1,
+    0x2091, 0x2BE1,
+    0x2092, 0x2C01,
+    0x2093, 0x2C21,
+    0x2094, 0x2C41,
+    0x2095, 0x2C61,
+    0x2096, 0x2C81,
+    0x2097, 0x2CA1,
+    0x2098, 0x2CC1,
+    0x2099, 0x2CE1,
+    0x209A, 0x2D01,
+    0x209B, 0x2D21,
+    0x209C, 0x2D41,
+    0x20A8, 0x2D62,
+    0x2100, 0x2DA3,
+    0x2101, 0x2E03,
+    0x2102, 0x2E61,
+    0x2103, 0x2E82,
+    0x2105, 0x2EC3,
+    0x2106, 0x2F23,
+    0x2107, 0x2F81,
+    0x2109, 0x2FA2,
+    0x210A, 0x2FE1,
+    0x210B, 0x3001,
+    0x210C, 0x3021,
+    0x210D, 0x3041,
+    0x210E, 0x3061,
+    0x210F, 0x3081,
+    0x2110, 0x30A1,
+    0x2111, 0x30C1,
+    0x2112, 0x30E1,
+    0x2113, 0x3101,
+    0x2115, 0x3121,
+    0x2116, 0x3142,
+    0x2119, 0x3181,
+    0x211A, 0x31A1,
+    0x211B, 0x31C1,
+    0x211C, 0x31E1,
+    0x211D, 0x3201,
+    0x2120, 0x3222,
+    0x2121, 0x3263,
+    0x2122, 0x32C2,
+    0x2124, 0x3301,
+    0x2128, 0x3321,
+    0x212C, 0x3341,
+    0x212D, 0x3361,
+    0x212F, 0x3381,
+    0x2130, 0x33A1,
+    0x2131, 0x33C1,
+    0x2133, 0x33E1,
+    0x2134, 0x3401,
+    0x2135, 0x3421,
+    0x2136, 0x3441,
+    0x2137, 0x3461,
+    0x2138, 0x3481,
+    0x2139, 0x34A1,
+    0x213B, 0x34C3,
+    0x213C, 0x3521,
+    0x213D, 0x3541,
+    0x213E, 0x3561,
+    0x213F, 0x3581,
+    0x2140, 0x35A1,
+    0x2145, 0x35C1,
+    0x2146, 0x35E1,
+    0x2147, 0x3601,
+    0x2148, 0x3621,
+    0x2149, 0x3641,
+    0x2150, 0x3663,
+    0x2151, 0x36C3,
+    0x2152, 0x3724,
+    0x2153, 0x37A3,
+    0x2154, 0x3803,
+    0x2155, 0x3863,
+    0x2156, 0x38C3,
+    0x2157, 0x3923,
+    0x2158, 0x3983,
+    0x2159, 0x39E3,
+    0x215A, 0x3A43,
+    0x215B, 0x3AA3,
+    0x215C, 0x3B03,
+    0x215D, 0x3B63,
+    0x215E, 0x3BC3,
+    0x215F, 0x3C22,
+    0x2160, 0x3C61,
+    0x2161, 0x3C82,
+    0x2162, 0x3CC3,
+    0x2163, 0x3D22,
+    0x2164, 0x3D61,
+    0x2165, 0x3D82,
+    0x2166, 0x3DC3,
+    0x2167, 0x3E24,
+    0x2168, 0x3EA2,
+    0x2169, 0x3EE1,
+    0x216A, 0x3F02,
+    0x216B, 0x3F43,
+    0x216C, 0x3FA1,
+    0x216D, 0x3FC1,
+    0x216E, 0x3FE1,
+    0x216F, 0x4001,
+    0x2170, 0x4021,
+    0x2171, 0x4042,
+    0x2172, 0x4083,
+    0x2173, 0x40E2,
+    0x2174, 0x4121,
+    0x2175, 0x4142,
+    0x2176, 0x4183,
+    0x2177, 0x41E4,
+    0x2178, 0x4262,
+    0x2179, 0x42A1,
+    0x217A, 0x42C2,
+    0x217B, 0x4303,
+    0x217C, 0x4361,
+    0x217D, 0x4381,
+    0x217E, 0x43A1,
+    0x217F, 0x43C1,
+    0x2189, 0x43E3,
+    0x222C, 0x4442,
+    0x222D, 0x4483,
+    0x222F, 0x44E2,
+    0x2230, 0x4523,
+    0x2460, 0x4581,
+    0x2461, 0x45A1,
+    0x2462, 0x45C1,
+    0x2463, 0x45E1,
+    0x2464, 0x4601,
+    0x2465, 0x4621,
+    0x2466, 0x4641,
+    0x2467, 0x4661,
+    0x2468, 0x4681,
+    0x2469, 0x46A2,
+    0x246A, 0x46E2,
+    0x246B, 0x4722,
+    0x246C, 0x4762,
+    0x246D, 0x47A2,
+    0x246E, 0x47E2,
+    0x246F, 0x4822,
+    0x2470, 0x4862,
+    0x2471, 0x48A2,
+    0x2472, 0x48E2,
+    0x2473, 0x4922,
+    0x2474, 0x4963,
+    0x2475, 0x49C3,
+    0x2476, 0x4A23,
+    0x2477, 0x4A83,
+    0x2478, 0x4AE3,
+    0x2479, 0x4B43,
+    0x247A, 0x4BA3,
+    0x247B, 0x4C03,
+    0x247C, 0x4C63,
+    0x247D, 0x4CC4,
+    0x247E, 0x4D44,
+    0x247F, 0x4DC4,
+    0x2480, 0x4E44,
+    0x2481, 0x4EC4,
+    0x2482, 0x4F44,
+    0x2483, 0x4FC4,
+    0x2484, 0x5044,
+    0x2485, 0x50C4,
+    0x2486, 0x5144,
+    0x2487, 0x51C4,
+    0x2488, 0x5242,
+    0x2489, 0x5282,
+    0x248A, 0x52C2,
+    0x248B, 0x5302,
+    0x248C, 0x5342,
+    0x248D, 0x5382,
+    0x248E, 0x53C2,
+    0x248F, 0x5402,
+    0x2490, 0x5442,
+    0x2491, 0x5483,
+    0x2492, 0x54E3,
+    0x2493, 0x5543,
+    0x2494, 0x55A3,
+    0x2495, 0x5603,
+    0x2496, 0x5663,
+    0x2497, 0x56C3,
+    0x2498, 0x5723,
+    0x2499, 0x5783,
+    0x249A, 0x57E3,
+    0x249B, 0x5843,
+    0x249C, 0x58A3,
+    0x249D, 0x5903,
+    0x249E, 0x5963,
+    0x249F, 0x59C3,
+    0x24A0, 0x5A23,
+    0x24A1, 0x5A83,
+    0x24A2, 0x5AE3,
+    0x24A3, 0x5B43,
+    0x24A4, 0x5BA3,
+    0x24A5, 0x5C03,
+    0x24A6, 0x5C63,
+    0x24A7, 0x5CC3,
+    0x24A8, 0x5D23,
+    0x24A9, 0x5D83,
+    0x24AA, 0x5DE3,
+    0x24AB, 0x5E43,
+    0x24AC, 0x5EA3,
+    0x24AD, 0x5F03,
+    0x24AE, 0x5F63,
+    0x24AF, 0x5FC3,
+    0x24B0, 0x6023,
+    0x24B1, 0x6083,
+    0x24B2, 0x60E3,
+    0x24B3, 0x6143,
+    0x24B4, 0x61A3,
+    0x24B5, 0x6203,
+    0x24B6, 0x6261,
+    0x24B7, 0x6281,
+    0x24B8, 0x62A1,
+    0x24B9, 0x62C1,
+    0x24BA, 0x62E1,
+    0x24BB, 0x6301,
+    0x24BC, 0x6321,
+    0x24BD, 0x6341,
+    0x24BE, 0x6361,
+    0x24BF, 0x6381,
+    0x24C0, 0x63A1,
+    0x24C1, 0x63C1,
+    0x24C2, 0x63E1,
+    0x24C3, 0x6401,
+    0x24C4, 0x6421,
+    0x24C5, 0x6441,
+    0x24C6, 0x6461,
+    0x24C7, 0x6481,
+    0x24C8, 0x64A1,
+    0x24C9, 0x64C1,
+    0x24CA, 0x64E1,
+    0x24CB, 0x6501,
+    0x24CC, 0x6521,
+    0x24CD, 0x6541,
+    0x24CE, 0x6561,
+    0x24CF, 0x6581,
+    0x24D0, 0x65A1,
+    0x24D1, 0x65C1,
+    0x24D2, 0x65E1,
+    0x24D3, 0x6601,
+    0x24D4, 0x6621,
+    0x24D5, 0x6641,
+    0x24D6, 0x6661,
+    0x24D7, 0x6681,
+    0x24D8, 0x66A1,
+    0x24D9, 0x66C1,
+    0x24DA, 0x66E1,
+    0x24DB, 0x6701,
+    0x24DC, 0x6721,
+    0x24DD, 0x6741,
+    0x24DE, 0x6761,
+    0x24DF, 0x6781,
+    0x24E0, 0x67A1,
+    0x24E1, 0x67C1,
+    0x24E2, 0x67E1,
+    0x24E3, 0x6801,
+    0x24E4, 0x6821,
+    0x24E5, 0x6841,
+    0x24E6, 0x6861,
+    0x24E7, 0x6881,
+    0x24E8, 0x68A1,
+    0x24E9, 0x68C1,
+    0x24EA, 0x68E1,
+    0x2A0C, 0x6904,
+    0x2A74, 0x6983,
+    0x2A75, 0x69E2,
+    0x2A76, 0x6A23,
+    0x2C7C, 0x6A81,
+    0x2C7D, 0x6AA1,
+    0x2D6F, 0x6AC1,
+    0x2E9F, 0x6AE1,
+    0x2EF3, 0x6B01,
+    0x2F00, 0x6B21,
+    0x2F01, 0x6B41,
+    0x2F02, 0x6B61,
+    0x2F03, 0x6B81,
+    0x2F04, 0x6BA1,
+    0x2F05, 0x6BC1,
+    0x2F06, 0x6BE1,
+    0x2F07, 0x6C01,
+    0x2F08, 0x6C21,
+    0x2F09, 0x6C41,
+    0x2F0A, 0x6C61,
+    0x2F0B, 0x6C81,
+    0x2F0C, 0x6CA1,
+    0x2F0D, 0x6CC1,
+    0x2F0E, 0x6CE1,
+    0x2F0F, 0x6D01,
+    0x2F10, 0x6D21,
+    0x2F11, 0x6D41,
+    0x2F12, 0x6D61,
+    0x2F13, 0x6D81,
+    0x2F14, 0x6DA1,
+    0x2F15, 0x6DC1,
+    0x2F16, 0x6DE1,
+    0x2F17, 0x6E01,
+    0x2F18, 0x6E21,
+    0x2F19, 0x6E41,
+    0x2F1A, 0x6E61,
+    0x2F1B, 0x6E81,
+    0x2F1C, 0x6EA1,
+    0x2F1D, 0x6EC1,
+    0x2F1E, 0x6EE1,
+    0x2F1F, 0x6F01,
+    0x2F20, 0x6F21,
+    0x2F21, 0x6F41,
+    0x2F22, 0x6F61,
+    0x2F23, 0x6F81,
+    0x2F24, 0x6FA1,
+    0x2F25, 0x6FC1,
+    0x2F26, 0x6FE1,
+    0x2F27, 0x7001,
+    0x2F28, 0x7021,
+    0x2F29, 0x7041,
+    0x2F2A, 0x7061,
+    0x2F2B, 0x7081,
+    0x2F2C, 0x70A1,
+    0x2F2D, 0x70C1,
+    0x2F2E, 0x70E1,
+    0x2F2F, 0x7101,
+    0x2F30, 0x7121,
+    0x2F31, 0x7141,
+    0x2F32, 0x7161,
+    0x2F33, 0x7181,
+    0x2F34, 0x71A1,
+    0x2F35, 0x71C1,
+    0x2F36, 0x71E1,
+    0x2F37, 0x7201,
+    0x2F38, 0x7221,
+    0x2F39, 0x7241,
+    0x2F3A, 0x7261,
+    0x2F3B, 0x7281,
+    0x2F3C, 0x72A1,
+    0x2F3D, 0x72C1,
+    0x2F3E, 0x72E1,
+    0x2F3F, 0x7301,
+    0x2F40, 0x7321,
+    0x2F41, 0x7341,
+    0x2F42, 0x7361,
+    0x2F43, 0x7381,
+    0x2F44, 0x73A1,
+    0x2F45, 0x73C1,
+    0x2F46, 0x73E1,
+    0x2F47, 0x7401,
+    0x2F48, 0x7421,
+    0x2F49, 0x7441,
+    0x2F4A, 0x7461,
+    0x2F4B, 0x7481,
+    0x2F4C, 0x74A1,
+    0x2F4D, 0x74C1,
+    0x2F4E, 0x74E1,
+    0x2F4F, 0x7501,
+    0x2F50, 0x7521,
+    0x2F51, 0x7541,
+    0x2F52, 0x7561,
+    0x2F53, 0x7581,
+    0x2F54, 0x75A1,
+    0x2F55, 0x75C1,
+    0x2F56, 0x75E1,
+    0x2F57, 0x7601,
+    0x2F58, 0x7621,
+    0x2F59, 0x7641,
+    0x2F5A, 0x7661,
+    0x2F5B, 0x7681,
+    0x2F5C, 0x76A1,
+    0x2F5D, 0x76C1,
+    0x2F5E, 0x76E1,
+    0x2F5F, 0x7701,
+    0x2F60, 0x7721,
+    0x2F61, 0x7741,
+    0x2F62, 0x7761,
+    0x2F63, 0x7781,
+    0x2F64, 0x77A1,
+    0x2F65, 0x77C1,
+    0x2F66, 0x77E1,
+    0x2F67, 0x7801,
+    0x2F68, 0x7821,
+    0x2F69, 0x7841,
+    0x2F6A, 0x7861,
+    0x2F6B, 0x7881,
+    0x2F6C, 0x78A1,
+    0x2F6D, 0x78C1,
+    0x2F6E, 0x78E1,
+    0x2F6F, 0x7901,
+    0x2F70, 0x7921,
+    0x2F71, 0x7941,
+    0x2F72, 0x7961,
+    0x2F73, 0x7981,
+    0x2F74, 0x79A1,
+    0x2F75, 0x79C1,
+    0x2F76, 0x79E1,
+    0x2F77, 0x7A01,
+    0x2F78, 0x7A21,
+    0x2F79, 0x7A41,
+    0x2F7A, 0x7A61,
+    0x2F7B, 0x7A81,
+    0x2F7C, 0x7AA1,
+    0x2F7D, 0x7AC1,
+    0x2F7E, 0x7AE1,
+    0x2F7F, 0x7B01,
+    0x2F80, 0x7B21,
+    0x2F81, 0x7B41,
+    0x2F82, 0x7B61,
+    0x2F83, 0x7B81,
+    0x2F84, 0x7BA1,
+    0x2F85, 0x7BC1,
+    0x2F86, 0x7BE1,
+    0x2F87, 0x7C01,
+    0x2F88, 0x7C21,
+    0x2F89, 0x7C41,
+    0x2F8A, 0x7C61,
+    0x2F8B, 0x7C81,
+    0x2F8C, 0x7CA1,
+    0x2F8D, 0x7CC1,
+    0x2F8E, 0x7CE1,
+    0x2F8F, 0x7D01,
+    0x2F90, 0x7D21,
+    0x2F91, 0x7D41,
+    0x2F92, 0x7D61,
+    0x2F93, 0x7D81,
+    0x2F94, 0x7DA1,
+    0x2F95, 0x7DC1,
+    0x2F96, 0x7DE1,
+    0x2F97, 0x7E01,
+    0x2F98, 0x7E21,
+    0x2F99, 0x7E41,
+    0x2F9A, 0x7E61,
+    0x2F9B, 0x7E81,
+    0x2F9C, 0x7EA1,
+    0x2F9D, 0x7EC1,
+    0x2F9E, 0x7EE1,
+    0x2F9F, 0x7F01,
+    0x2FA0, 0x7F21,
+    0x2FA1, 0x7F41,
+    0x2FA2, 0x7F61,
+    0x2FA3, 0x7F81,
+    0x2FA4, 0x7FA1,
+    0x2FA5, 0x7FC1,
+    0x2FA6, 0x7FE1,
+    0x2FA7, 0x8001,
+    0x2FA8, 0x8021,
+    0x2FA9, 0x8041,
+    0x2FAA, 0x8061,
+    0x2FAB, 0x8081,
+    0x2FAC, 0x80A1,
+    0x2FAD, 0x80C1,
+    0x2FAE, 0x80E1,
+    0x2FAF, 0x8101,
+    0x2FB0, 0x8121,
+    0x2FB1, 0x8141,
+    0x2FB2, 0x8161,
+    0x2FB3, 0x8181,
+    0x2FB4, 0x81A1,
+    0x2FB5, 0x81C1,
+    0x2FB6, 0x81E1,
+    0x2FB7, 0x8201,
+    0x2FB8, 0x8221,
+    0x2FB9, 0x8241,
+    0x2FBA, 0x8261,
+    0x2FBB, 0x8281,
+    0x2FBC, 0x82A1,
+    0x2FBD, 0x82C1,
+    0x2FBE, 0x82E1,
+    0x2FBF, 0x8301,
+    0x2FC0, 0x8321,
+    0x2FC1, 0x8341,
+    0x2FC2, 0x8361,
+    0x2FC3, 0x8381,
+    0x2FC4, 0x83A1,
+    0x2FC5, 0x83C1,
+    0x2FC6, 0x83E1,
+    0x2FC7, 0x8401,
+    0x2FC8, 0x8421,
+    0x2FC9, 0x8441,
+    0x2FCA, 0x8461,
+    0x2FCB, 0x8481,
+    0x2FCC, 0x84A1,
+    0x2FCD, 0x84C1,
+    0x2FCE, 0x84E1,
+    0x2FCF, 0x8501,
+    0x2FD0, 0x8521,
+    0x2FD1, 0x8541,
+    0x2FD2, 0x8561,
+    0x2FD3, 0x8581,
+    0x2FD4, 0x85A1,
+    0x2FD5, 0x85C1,
+    0x3000, 0x85E1,
+    0x3036, 0x8601,
+    0x3038, 0x8621,
+    0x3039, 0x8641,
+    0x303A, 0x8661,
+    0x309B, 0x8682,
+    0x309C, 0x86C2,
+    0x309F, 0x8702,
+    0x30FF, 0x8742,
+    0x3131, 0x8781,
+    0x3132, 0x87A1,
+    0x3133, 0x87C1,
+    0x3134, 0x87E1,
+    0x3135, 0x8801,
+    0x3136, 0x8821,
+    0x3137, 0x8841,
+    0x3138, 0x8861,
+    0x3139, 0x8881,
+    0x313A, 0x88A1,
+    0x313B, 0x88C1,
+    0x313C, 0x88E1,
+    0x313D, 0x8901,
+    0x313E, 0x8921,
+    0x313F, 0x8941,
+    0x3140, 0x8961,
+    0x3141, 0x8981,
+    0x3142, 0x89A1,
+    0x3143, 0x89C1,
+    0x3144, 0x89E1,
+    0x3145, 0x8A01,
+    0x3146, 0x8A21,
+    0x3147, 0x8A41,
+    0x3148, 0x8A61,
+    0x3149, 0x8A81,
+    0x314A, 0x8AA1,
+    0x314B, 0x8AC1,
+    0x314C, 0x8AE1,
+    0x314D, 0x8B01,
+    0x314E, 0x8B21,
+    0x314F, 0x8B41,
+    0x3150, 0x8B61,
+    0x3151, 0x8B81,
+    0x3152, 0x8BA1,
+    0x3153, 0x8BC1,
+    0x3154, 0x8BE1,
+    0x3155, 0x8C01,
+    0x3156, 0x8C21,
+    0x3157, 0x8C41,
+    0x3158, 0x8C61,
+    0x3159, 0x8C81,
+    0x315A, 0x8CA1,
+    0x315B, 0x8CC1,
+    0x315C, 0x8CE1,
+    0x315D, 0x8D01,
+    0x315E, 0x8D21,
+    0x315F, 0x8D41,
+    0x3160, 0x8D61,
+    0x3161, 0x8D81,
+    0x3162, 0x8DA1,
+    0x3163, 0x8DC1,
+    0x3164, 0x8DE1,
+    0x3165, 0x8E01,
+    0x3166, 0x8E21,
+    0x3167, 0x8E41,
+    0x3168, 0x8E61,
+    0x3169, 0x8E81,
+    0x316A, 0x8EA1,
+    0x316B, 0x8EC1,
+    0x316C, 0x8EE1,
+    0x316D, 0x8F01,
+    0x316E, 0x8F21,
+    0x316F, 0x8F41,
+    0x3170, 0x8F61,
+    0x3171, 0x8F81,
+    0x3172, 0x8FA1,
+    0x3173, 0x8FC1,
+    0x3174, 0x8FE1,
+    0x3175, 0x9001,
+    0x3176, 0x9021,
+    0x3177, 0x9041,
+    0x3178, 0x9061,
+    0x3179, 0x9081,
+    0x317A, 0x90A1,
+    0x317B, 0x90C1,
+    0x317C, 0x90E1,
+    0x317D, 0x9101,
+    0x317E, 0x9121,
+    0x317F, 0x9141,
+    0x3180, 0x9161,
+    0x3181, 0x9181,
+    0x3182, 0x91A1,
+    0x3183, 0x91C1,
+    0x3184, 0x91E1,
+    0x3185, 0x9201,
+    0x3186, 0x9221,
+    0x3187, 0x9241,
+    0x3188, 0x9261,
+    0x3189, 0x9281,
+    0x318A, 0x92A1,
+    0x318B, 0x92C1,
+    0x318C, 0x92E1,
+    0x318D, 0x9301,
+    0x318E, 0x9321,
+    0x3192, 0x9341,
+    0x3193, 0x9361,
+    0x3194, 0x9381,
+    0x3195, 0x93A1,
+    0x3196, 0x93C1,
+    0x3197, 0x93E1,
+    0x3198, 0x9401,
+    0x3199, 0x9421,
+    0x319A, 0x9441,
+    0x319B, 0x9461,
+    0x319C, 0x9481,
+    0x319D, 0x94A1,
+    0x319E, 0x94C1,
+    0x319F, 0x94E1,
+    0x3200, 0x9503,
+    0x3201, 0x9563,
+    0x3202, 0x95C3,
+    0x3203, 0x9623,
+    0x3204, 0x9683,
+    0x3205, 0x96E3,
+    0x3206, 0x9743,
+    0x3207, 0x97A3,
+    0x3208, 0x9803,
+    0x3209, 0x9863,
+    0x320A, 0x98C3,
+    0x320B, 0x9923,
+    0x320C, 0x9983,
+    0x320D, 0x99E3,
+    0x320E, 0x9A44,
+    0x320F, 0x9AC4,
+    0x3210, 0x9B44,
+    0x3211, 0x9BC4,
+    0x3212, 0x9C44,
+    0x3213, 0x9CC4,
+    0x3214, 0x9D44,
+    0x3215, 0x9DC4,
+    0x3216, 0x9E44,
+    0x3217, 0x9EC4,
+    0x3218, 0x9F44,
+    0x3219, 0x9FC4,
+    0x321A, 0xA044,
+    0x321B, 0xA0C4,
+    0x321C, 0xA144,
+    0x321D, 0xA1C7,
+    0x321E, 0xA2A6,
+    0x3220, 0xA363,
+    0x3221, 0xA3C3,
+    0x3222, 0xA423,
+    0x3223, 0xA483,
+    0x3224, 0xA4E3,
+    0x3225, 0xA543,
+    0x3226, 0xA5A3,
+    0x3227, 0xA603,
+    0x3228, 0xA663,
+    0x3229, 0xA6C3,
+    0x322A, 0xA723,
+    0x322B, 0xA783,
+    0x322C, 0xA7E3,
+    0x322D, 0xA843,
+    0x322E, 0xA8A3,
+    0x322F, 0xA903,
+    0x3230, 0xA963,
+    0x3231, 0xA9C3,
+    0x3232, 0xAA23,
+    0x3233, 0xAA83,
+    0x3234, 0xAAE3,
+    0x3235, 0xAB43,
+    0x3236, 0xABA3,
+    0x3237, 0xAC03,
+    0x3238, 0xAC63,
+    0x3239, 0xACC3,
+    0x323A, 0xAD23,
+    0x323B, 0xAD83,
+    0x323C, 0xADE3,
+    0x323D, 0xAE43,
+    0x323E, 0xAEA3,
+    0x323F, 0xAF03,
+    0x3240, 0xAF63,
+    0x3241, 0xAFC3,
+    0x3242, 0xB023,
+    0x3243, 0xB083,
+    0x3244, 0xB0E1,
+    0x3245, 0xB101,
+    0x3246, 0xB121,
+    0x3247, 0xB141,
+    0x3250, 0xB163,
+    0x3251, 0xB1C2,
+    0x3252, 0xB202,
+    0x3253, 0xB242,
+    0x3254, 0xB282,
+    0x3255, 0xB2C2,
+    0x3256, 0xB302,
+    0x3257, 0xB342,
+    0x3258, 0xB382,
+    0x3259, 0xB3C2,
+    0x325A, 0xB402,
+    0x325B, 0xB442,
+    0x325C, 0xB482,
+    0x325D, 0xB4C2,
+    0x325E, 0xB502,
+    0x325F, 0xB542,
+    0x3260, 0xB581,
+    0x3261, 0xB5A1,
+    0x3262, 0xB5C1,
+    0x3263, 0xB5E1,
+    0x3264, 0xB601,
+    0x3265, 0xB621,
+    0x3266, 0xB641,
+    0x3267, 0xB661,
+    0x3268, 0xB681,
+    0x3269, 0xB6A1,
+    0x326A, 0xB6C1,
+    0x326B, 0xB6E1,
+    0x326C, 0xB701,
+    0x326D, 0xB721,
+    0x326E, 0xB742,
+    0x326F, 0xB782,
+    0x3270, 0xB7C2,
+    0x3271, 0xB802,
+    0x3272, 0xB842,
+    0x3273, 0xB882,
+    0x3274, 0xB8C2,
+    0x3275, 0xB902,
+    0x3276, 0xB942,
+    0x3277, 0xB982,
+    0x3278, 0xB9C2,
+    0x3279, 0xBA02,
+    0x327A, 0xBA42,
+    0x327B, 0xBA82,
+    0x327C, 0xBAC5,
+    0x327D, 0xBB64,
+    0x327E, 0xBBE2,
+    0x3280, 0xBC21,
+    0x3281, 0xBC41,
+    0x3282, 0xBC61,
+    0x3283, 0xBC81,
+    0x3284, 0xBCA1,
+    0x3285, 0xBCC1,
+    0x3286, 0xBCE1,
+    0x3287, 0xBD01,
+    0x3288, 0xBD21,
+    0x3289, 0xBD41,
+    0x328A, 0xBD61,
+    0x328B, 0xBD81,
+    0x328C, 0xBDA1,
+    0x328D, 0xBDC1,
+    0x328E, 0xBDE1,
+    0x328F, 0xBE01,
+    0x3290, 0xBE21,
+    0x3291, 0xBE41,
+    0x3292, 0xBE61,
+    0x3293, 0xBE81,
+    0x3294, 0xBEA1,
+    0x3295, 0xBEC1,
+    0x3296, 0xBEE1,
+    0x3297, 0xBF01,
+    0x3298, 0xBF21,
+    0x3299, 0xBF41,
+    0x329A, 0xBF61,
+    0x329B, 0xBF81,
+    0x329C, 0xBFA1,
+    0x329D, 0xBFC1,
+    0x329E, 0xBFE1,
+    0x329F, 0xC001,
+    0x32A0, 0xC021,
+    0x32A1, 0xC041,
+    0x32A2, 0xC061,
+    0x32A3, 0xC081,
+    0x32A4, 0xC0A1,
+    0x32A5, 0xC0C1,
+    0x32A6, 0xC0E1,
+    0x32A7, 0xC101,
+    0x32A8, 0xC121,
+    0x32A9, 0xC141,
+    0x32AA, 0xC161,
+    0x32AB, 0xC181,
+    0x32AC, 0xC1A1,
+    0x32AD, 0xC1C1,
+    0x32AE, 0xC1E1,
+    0x32AF, 0xC201,
+    0x32B0, 0xC221,
+    0x32B1, 0xC242,
+    0x32B2, 0xC282,
+    0x32B3, 0xC2C2,
+    0x32B4, 0xC302,
+    0x32B5, 0xC342,
+    0x32B6, 0xC382,
+    0x32B7, 0xC3C2,
+    0x32B8, 0xC402,
+    0x32B9, 0xC442,
+    0x32BA, 0xC482,
+    0x32BB, 0xC4C2,
+    0x32BC, 0xC502,
+    0x32BD, 0xC542,
+    0x32BE, 0xC582,
+    0x32BF, 0xC5C2,
+    0x32C0, 0xC602,
+    0x32C1, 0xC642,
+    0x32C2, 0xC682,
+    0x32C3, 0xC6C2,
+    0x32C4, 0xC702,
+    0x32C5, 0xC742,
+    0x32C6, 0xC782,
+    0x32C7, 0xC7C2,
+    0x32C8, 0xC802,
+    0x32C9, 0xC843,
+    0x32CA, 0xC8A3,
+    0x32CB, 0xC903,
+    0x32CC, 0xC962,
+    0x32CD, 0xC9A3,
+    0x32CE, 0xCA02,
+    0x32CF, 0xCA43,
+    0x32D0, 0xCAA1,
+    0x32D1, 0xCAC1,
+    0x32D2, 0xCAE1,
+    0x32D3, 0xCB01,
+    0x32D4, 0xCB21,
+    0x32D5, 0xCB41,
+    0x32D6, 0xCB61,
+    0x32D7, 0xCB81,
+    0x32D8, 0xCBA1,
+    0x32D9, 0xCBC1,
+    0x32DA, 0xCBE1,
+    0x32DB, 0xCC01,
+    0x32DC, 0xCC21,
+    0x32DD, 0xCC41,
+    0x32DE, 0xCC61,
+    0x32DF, 0xCC81,
+    0x32E0, 0xCCA1,
+    0x32E1, 0xCCC1,
+    0x32E2, 0xCCE1,
+    0x32E3, 0xCD01,
+    0x32E4, 0xCD21,
+    0x32E5, 0xCD41,
+    0x32E6, 0xCD61,
+    0x32E7, 0xCD81,
+    0x32E8, 0xCDA1,
+    0x32E9, 0xCDC1,
+    0x32EA, 0xCDE1,
+    0x32EB, 0xCE01,
+    0x32EC, 0xCE21,
+    0x32ED, 0xCE41,
+    0x32EE, 0xCE61,
+    0x32EF, 0xCE81,
+    0x32F0, 0xCEA1,
+    0x32F1, 0xCEC1,
+    0x32F2, 0xCEE1,
+    0x32F3, 0xCF01,
+    0x32F4, 0xCF21,
+    0x32F5, 0xCF41,
+    0x32F6, 0xCF61,
+    0x32F7, 0xCF81,
+    0x32F8, 0xCFA1,
+    0x32F9, 0xCFC1,
+    0x32FA, 0xCFE1,
+    0x32FB, 0xD001,
+    0x32FC, 0xD021,
+    0x32FD, 0xD041,
+    0x32FE, 0xD061,
+    0x32FF, 0xD082,
+    0x3300, 0xD0C5,
+    0x3301, 0xD164,
+    0x3302, 0xD1E5,
+    0x3303, 0xD283,
+    0x3304, 0xD2E5,
+    0x3305, 0xD383,
+    0x3306, 0xD3E3,
+    0x3307, 0xD446,
+    0x3308, 0xD504,
+    0x3309, 0xD583,
+    0x330A, 0xD5E3,
+    0x330B, 0xD643,
+    0x330C, 0xD6A4,
+    0x330D, 0xD724,
+    0x330E, 0xD7A4,
+    0x330F, 0xD824,
+    0x3310, 0xD8A4,
+    0x3311, 0xD924,
+    0x3312, 0xD9A4,
+    0x3313, 0xDA26,
+    0x3314, 0xDAE2,
+    0x3315, 0xDB26,
+    0x3316, 0xDBE6,
+    0x3317, 0xDCA5,
+    0x3318, 0xDD44,
+    0x3319, 0xDDC6,
+    0x331A, 0xDE86,
+    0x331B, 0xDF44,
+    0x331C, 0xDFC3,
+    0x331D, 0xE023,
+    0x331E, 0xE084,
+    0x331F, 0xE104,
+    0x3320, 0xE185,
+    0x3321, 0xE225,
+    0x3322, 0xE2C3,
+    0x3323, 0xE323,
+    0x3324, 0xE384,
+    0x3325, 0xE403,
+    0x3326, 0xE463,
+    0x3327, 0xE4C2,
+    0x3328, 0xE502,
+    0x3329, 0xE543,
+    0x332A, 0xE5A3,
+    0x332B, 0xE606,
+    0x332C, 0xE6C4,
+    0x332D, 0xE745,
+    0x332E, 0xE7E6,
+    0x332F, 0xE8A4,
+    0x3330, 0xE923,
+    0x3331, 0xE983,
+    0x3332, 0xE9E6,
+    0x3333, 0xEAA4,
+    0x3334, 0xEB26,
+    0x3335, 0xEBE3,
+    0x3336, 0xEC45,
+    0x3337, 0xECE3,
+    0x3338, 0xED44,
+    0x3339, 0xEDC3,
+    0x333A, 0xEE24,
+    0x333B, 0xEEA5,
+    0x333C, 0xEF44,
+    0x333D, 0xEFC5,
+    0x333E, 0xF064,
+    0x333F, 0xF0E2,
+    0x3340, 0xF125,
+    0x3341, 0xF1C3,
+    0x3342, 0xF223,
+    0x3343, 0xF284,
+    0x3344, 0xF303,
+    0x3345, 0xF363,
+    0x3346, 0xF3C3,
+    0x3347, 0xF425,
+    0x3348, 0xF4C4,
+    0x3349, 0xF542,
+    0x334A, 0xF586,
+    0x334B, 0xF643,
+    0x334C, 0xF6A5,
+    0x334D, 0xF744,
+    0x334E, 0xF7C4,
+    0x334F, 0xF843,
+    0x3350, 0xF8A3,
+    0x3351, 0xF904,
+    0x3352, 0xF982,
+    0x3353, 0xF9C4,
+    0x3354, 0xFA45,
+    0x3355, 0xFAE2,
+    0x3356, 0xFB26,
+    0x3357, 0xFBE3,
+    0x3358, 0xFC42,
+    0x3359, 0xFC82,
+    0x335A, 0xFCC2,
+    0x335B, 0xFD02,
+    0x335C, 0xFD42,
+    0x335D, 0xFD82,
+    0x335E, 0xFDC2,
+    0x335F, 0xFE02,
+    0x3360, 0xFE42,
+    0x3361, 0xFE82,
+    0x3362, 0xFEC3,
+    0x3363, 0xFF23,
+    0x3364, 0xFF83,
+    0x3365, 0xFFE3,
+    0x3366, 0x10043,
+    0x3367, 0x100A3,
+    0x3368, 0x10103,
+    0x3369, 0x10163,
+    0x336A, 0x101C3,
+    0x336B, 0x10223,
+    0x336C, 0x10283,
+    0x336D, 0x102E3,
+    0x336E, 0x10343,
+    0x336F, 0x103A3,
+    0x3370, 0x10403,
+    0x3371, 0x10463,
+    0x3372, 0x104C2,
+    0x3373, 0x10502,
+    0x3374, 0x10543,
+    0x3375, 0x105A2,
+    0x3376, 0x105E2,
+    0x3377, 0x10622,
+    0x3378, 0x10663,
+    0x3379, 0x106C3,
+    0x337A, 0x10722,
+    0x337B, 0x10762,
+    0x337C, 0x107A2,
+    0x337D, 0x107E2,
+    0x337E, 0x10822,
+    0x337F, 0x10864,
+    0x3380, 0x108E2,
+    0x3381, 0x10922,
+    0x3382, 0x10962,
+    0x3383, 0x109A2,
+    0x3384, 0x109E2,
+    0x3385, 0x10A22,
+    0x3386, 0x10A62,
+    0x3387, 0x10AA2,
+    0x3388, 0x10AE3,
+    0x3389, 0x10B44,
+    0x338A, 0x10BC2,
+    0x338B, 0x10C02,
+    0x338C, 0x10C42,
+    0x338D, 0x10C82,
+    0x338E, 0x10CC2,
+    0x338F, 0x10D02,
+    0x3390, 0x10D42,
+    0x3391, 0x10D83,
+    0x3392, 0x10DE3,
+    0x3393, 0x10E43,
+    0x3394, 0x10EA3,
+    0x3395, 0x10F02,
+    0x3396, 0x10F42,
+    0x3397, 0x10F82,
+    0x3398, 0x10FC2,
+    0x3399, 0x11002,
+    0x339A, 0x11042,
+    0x339B, 0x11082,
+    0x339C, 0x110C2,
+    0x339D, 0x11102,
+    0x339E, 0x11142,
+    0x339F, 0x11183,
+    0x33A0, 0x111E3,
+    0x33A1, 0x11242,
+    0x33A2, 0x11283,
+    0x33A3, 0x112E3,
+    0x33A4, 0x11343,
+    0x33A5, 0x113A2,
+    0x33A6, 0x113E3,
+    0x33A7, 0x11443,
+    0x33A8, 0x114A4,
+    0x33A9, 0x11522,
+    0x33AA, 0x11563,
+    0x33AB, 0x115C3,
+    0x33AC, 0x11623,
+    0x33AD, 0x11683,
+    0x33AE, 0x116E5,
+    0x33AF, 0x11786,
+    0x33B0, 0x11842,
+    0x33B1, 0x11882,
+    0x33B2, 0x118C2,
+    0x33B3, 0x11902,
+    0x33B4, 0x11942,
+    0x33B5, 0x11982,
+    0x33B6, 0x119C2,
+    0x33B7, 0x11A02,
+    0x33B8, 0x11A42,
+    0x33B9, 0x11A82,
+    0x33BA, 0x11AC2,
+    0x33BB, 0x11B02,
+    0x33BC, 0x11B42,
+    0x33BD, 0x11B82,
+    0x33BE, 0x11BC2,
+    0x33BF, 0x11C02,
+    0x33C0, 0x11C42,
+    0x33C1, 0x11C82,
+    0x33C2, 0x11CC4,
+    0x33C3, 0x11D42,
+    0x33C4, 0x11D82,
+    0x33C5, 0x11DC2,
+    0x33C6, 0x11E04,
+    0x33C7, 0x11E83,
+    0x33C8, 0x11EE2,
+    0x33C9, 0x11F22,
+    0x33CA, 0x11F62,
+    0x33CB, 0x11FA2,
+    0x33CC, 0x11FE2,
+    0x33CD, 0x12022,
+    0x33CE, 0x12062,
+    0x33CF, 0x120A2,
+    0x33D0, 0x120E2,
+    0x33D1, 0x12122,
+    0x33D2, 0x12163,
+    0x33D3, 0x121C2,
+    0x33D4, 0x12202,
+    0x33D5, 0x12243,
+    0x33D6, 0x122A3,
+    0x33D7, 0x12302,
+    0x33D8, 0x12344,
+    0x33D9, 0x123C3,
+    0x33DA, 0x12422,
+    0x33DB, 0x12462,
+    0x33DC, 0x124A2,
+    0x33DD, 0x124E2,
+    0x33DE, 0x12523,
+    0x33DF, 0x12583,
+    0x33E0, 0x125E2,
+    0x33E1, 0x12622,
+    0x33E2, 0x12662,
+    0x33E3, 0x126A2,
+    0x33E4, 0x126E2,
+    0x33E5, 0x12722,
+    0x33E6, 0x12762,
+    0x33E7, 0x127A2,
+    0x33E8, 0x127E2,
+    0x33E9, 0x12823,
+    0x33EA, 0x12883,
+    0x33EB, 0x128E3,
+    0x33EC, 0x12943,
+    0x33ED, 0x129A3,
+    0x33EE, 0x12A03,
+    0x33EF, 0x12A63,
+    0x33F0, 0x12AC3,
+    0x33F1, 0x12B23,
+    0x33F2, 0x12B83,
+    0x33F3, 0x12BE3,
+    0x33F4, 0x12C43,
+    0x33F5, 0x12CA3,
+    0x33F6, 0x12D03,
+    0x33F7, 0x12D63,
+    0x33F8, 0x12DC3,
+    0x33F9, 0x12E23,
+    0x33FA, 0x12E83,
+    0x33FB, 0x12EE3,
+    0x33FC, 0x12F43,
+    0x33FD, 0x12FA3,
+    0x33FE, 0x13003,
+    0x33FF, 0x13063,
+    0xA69C, 0x130C1,
+    0xA69D, 0x130E1,
+    0xA770, 0x13101,
+    0xA7F2, 0x13121,
+    0xA7F3, 0x13141,
+    0xA7F4, 0x13161,
+    0xA7F8, 0x13181,
+    0xA7F9, 0x131A1,
+    0xAB5C, 0x131C1,
+    0xAB5D, 0x131E1,
+    0xAB5E, 0x13201,
+    0xAB5F, 0x13221,
+    0xAB69, 0x13241,
+    0xFB00, 0x13262,
+    0xFB01, 0x132A2,
+    0xFB02, 0x132E2,
+    0xFB03, 0x13323,
+    0xFB04, 0x13383,
+    0xFB05, 0x133E2,
+    0xFB06, 0x13422,
+    0xFB13, 0x13462,
+    0xFB14, 0x134A2,
+    0xFB15, 0x134E2,
+    0xFB16, 0x13522,
+    0xFB17, 0x13562,
+    0xFB20, 0x135A1,
+    0xFB21, 0x135C1,
+    0xFB22, 0x135E1,
+    0xFB23, 0x13601,
+    0xFB24, 0x13621,
+    0xFB25, 0x13641,
+    0xFB26, 0x13661,
+    0xFB27, 0x13681,
+    0xFB28, 0x136A1,
+    0xFB29, 0x136C1,
+    0xFB4F, 0x136E2,
+    0xFB50, 0x13721,
+    0xFB51, 0x13741,
+    0xFB52, 0x13761,
+    0xFB53, 0x13781,
+    0xFB54, 0x137A1,
+    0xFB55, 0x137C1,
+    0xFB56, 0x137E1,
+    0xFB57, 0x13801,
+    0xFB58, 0x13821,
+    0xFB59, 0x13841,
+    0xFB5A, 0x13861,
+    0xFB5B, 0x13881,
+    0xFB5C, 0x138A1,
+    0xFB5D, 0x138C1,
+    0xFB5E, 0x138E1,
+    0xFB5F, 0x13901,
+    0xFB60, 0x13921,
+    0xFB61, 0x13941,
+    0xFB62, 0x13961,
+    0xFB63, 0x13981,
+    0xFB64, 0x139A1,
+    0xFB65, 0x139C1,
+    0xFB66, 0x139E1,
+    0xFB67, 0x13A01,
+    0xFB68, 0x13A21,
+    0xFB69, 0x13A41,
+    0xFB6A, 0x13A61,
+    0xFB6B, 0x13A81,
+    0xFB6C, 0x13AA1,
+    0xFB6D, 0x13AC1,
+    0xFB6E, 0x13AE1,
+    0xFB6F, 0x13B01,
+    0xFB70, 0x13B21,
+    0xFB71, 0x13B41,
+    0xFB72, 0x13B61,
+    0xFB73, 0x13B81,
+    0xFB74, 0x13BA1,
+    0xFB75, 0x13BC1,
+    0xFB76, 0x13BE1,
+    0xFB77, 0x13C01,
+    0xFB78, 0x13C21,
+    0xFB79, 0x13C41,
+    0xFB7A, 0x13C61,
+    0xFB7B, 0x13C81,
+    0xFB7C, 0x13CA1,
+    0xFB7D, 0x13CC1,
+    0xFB7E, 0x13CE1,
+    0xFB7F, 0x13D01,
+    0xFB80, 0x13D21,
+    0xFB81, 0x13D41,
+    0xFB82, 0x13D61,
+    0xFB83, 0x13D81,
+    0xFB84, 0x13DA1,
+    0xFB85, 0x13DC1,
+    0xFB86, 0x13DE1,
+    0xFB87, 0x13E01,
+    0xFB88, 0x13E21,
+    0xFB89, 0x13E41,
+    0xFB8A, 0x13E61,
+    0xFB8B, 0x13E81,
+    0xFB8C, 0x13EA1,
+    0xFB8D, 0x13EC1,
+    0xFB8E, 0x13EE1,
+    0xFB8F, 0x13F01,
+    0xFB90, 0x13F21,
+    0xFB91, 0x13F41,
+    0xFB92, 0x13F61,
+    0xFB93, 0x13F81,
+    0xFB94, 0x13FA1,
+    0xFB95, 0x13FC1,
+    0xFB96, 0x13FE1,
+    0xFB97, 0x14001,
+    0xFB98, 0x14021,
+    0xFB99, 0x14041,
+    0xFB9A, 0x14061,
+    0xFB9B, 0x14081,
+    0xFB9C, 0x140A1,
+    0xFB9D, 0x140C1,
+    0xFB9E, 0x140E1,
+    0xFB9F, 0x14101,
+    0xFBA0, 0x14121,
+    0xFBA1, 0x14141,
+    0xFBA2, 0x14161,
+    0xFBA3, 0x14181,
+    0xFBA4, 0x141A2,
+    0xFBA5, 0x141E2,
+    0xFBA6, 0x14221,
+    0xFBA7, 0x14241,
+    0xFBA8, 0x14261,
+    0xFBA9, 0x14281,
+    0xFBAA, 0x142A1,
+    0xFBAB, 0x142C1,
+    0xFBAC, 0x142E1,
+    0xFBAD, 0x14301,
+    0xFBAE, 0x14321,
+    0xFBAF, 0x14341,
+    0xFBB0, 0x14362,
+    0xFBB1, 0x143A2,
+    0xFBD3, 0x143E1,
+    0xFBD4, 0x14401,
+    0xFBD5, 0x14421,
+    0xFBD6, 0x14441,
+    0xFBD7, 0x14461,
+    0xFBD8, 0x14481,
+    0xFBD9, 0x144A1,
+    0xFBDA, 0x144C1,
+    0xFBDB, 0x144E1,
+    0xFBDC, 0x14501,
+    0xFBDD, 0x14522,
+    0xFBDE, 0x14561,
+    0xFBDF, 0x14581,
+    0xFBE0, 0x145A1,
+    0xFBE1, 0x145C1,
+    0xFBE2, 0x145E1,
+    0xFBE3, 0x14601,
+    0xFBE4, 0x14621,
+    0xFBE5, 0x14641,
+    0xFBE6, 0x14661,
+    0xFBE7, 0x14681,
+    0xFBE8, 0x146A1,
+    0xFBE9, 0x146C1,
+    0xFBEA, 0x146E3,
+    0xFBEB, 0x14743,
+    0xFBEC, 0x147A3,
+    0xFBED, 0x14803,
+    0xFBEE, 0x14863,
+    0xFBEF, 0x148C3,
+    0xFBF0, 0x14923,
+    0xFBF1, 0x14983,
+    0xFBF2, 0x149E3,
+    0xFBF3, 0x14A43,
+    0xFBF4, 0x14AA3,
+    0xFBF5, 0x14B03,
+    0xFBF6, 0x14B63,
+    0xFBF7, 0x14BC3,
+    0xFBF8, 0x14C23,
+    0xFBF9, 0x14C83,
+    0xFBFA, 0x14CE3,
+    0xFBFB, 0x14D43,
+    0xFBFC, 0x14DA1,
+    0xFBFD, 0x14DC1,
+    0xFBFE, 0x14DE1,
+    0xFBFF, 0x14E01,
+    0xFC00, 0x14E23,
+    0xFC01, 0x14E83,
+    0xFC02, 0x14EE3,
+    0xFC03, 0x14F43,
+    0xFC04, 0x14FA3,
+    0xFC05, 0x15002,
+    0xFC06, 0x15042,
+    0xFC07, 0x15082,
+    0xFC08, 0x150C2,
+    0xFC09, 0x15102,
+    0xFC0A, 0x15142,
+    0xFC0B, 0x15182,
+    0xFC0C, 0x151C2,
+    0xFC0D, 0x15202,
+    0xFC0E, 0x15242,
+    0xFC0F, 0x15282,
+    0xFC10, 0x152C2,
+    0xFC11, 0x15302,
+    0xFC12, 0x15342,
+    0xFC13, 0x15382,
+    0xFC14, 0x153C2,
+    0xFC15, 0x15402,
+    0xFC16, 0x15442,
+    0xFC17, 0x15482,
+    0xFC18, 0x154C2,
+    0xFC19, 0x15502,
+    0xFC1A, 0x15542,
+    0xFC1B, 0x15582,
+    0xFC1C, 0x155C2,
+    0xFC1D, 0x15602,
+    0xFC1E, 0x15642,
+    0xFC1F, 0x15682,
+    0xFC20, 0x156C2,
+    0xFC21, 0x15702,
+    0xFC22, 0x15742,
+    0xFC23, 0x15782,
+    0xFC24, 0x157C2,
+    0xFC25, 0x15802,
+    0xFC26, 0x15842,
+    0xFC27, 0x15882,
+    0xFC28, 0x158C2,
+    0xFC29, 0x15902,
+    0xFC2A, 0x15942,
+    0xFC2B, 0x15982,
+    0xFC2C, 0x159C2,
+    0xFC2D, 0x15A02,
+    0xFC2E, 0x15A42,
+    0xFC2F, 0x15A82,
+    0xFC30, 0x15AC2,
+    0xFC31, 0x15B02,
+    0xFC32, 0x15B42,
+    0xFC33, 0x15B82,
+    0xFC34, 0x15BC2,
+    0xFC35, 0x15C02,
+    0xFC36, 0x15C42,
+    0xFC37, 0x15C82,
+    0xFC38, 0x15CC2,
+    0xFC39, 0x15D02,
+    0xFC3A, 0x15D42,
+    0xFC3B, 0x15D82,
+    0xFC3C, 0x15DC2,
+    0xFC3D, 0x15E02,
+    0xFC3E, 0x15E42,
+    0xFC3F, 0x15E82,
+    0xFC40, 0x15EC2,
+    0xFC41, 0x15F02,
+    0xFC42, 0x15F42,
+    0xFC43, 0x15F82,
+    0xFC44, 0x15FC2,
+    0xFC45, 0x16002,
+    0xFC46, 0x16042,
+    0xFC47, 0x16082,
+    0xFC48, 0x160C2,
+    0xFC49, 0x16102,
+    0xFC4A, 0x16142,
+    0xFC4B, 0x16182,
+    0xFC4C, 0x161C2,
+    0xFC4D, 0x16202,
+    0xFC4E, 0x16242,
+    0xFC4F, 0x16282,
+    0xFC50, 0x162C2,
+    0xFC51, 0x16302,
+    0xFC52, 0x16342,
+    0xFC53, 0x16382,
+    0xFC54, 0x163C2,
+    0xFC55, 0x16402,
+    0xFC56, 0x16442,
+    0xFC57, 0x16482,
+    0xFC58, 0x164C2,
+    0xFC59, 0x16502,
+    0xFC5A, 0x16542,
+    0xFC5B, 0x16582,
+    0xFC5C, 0x165C2,
+    0xFC5D, 0x16602,
+    0xFC5E, 0x16643,
+    0xFC5F, 0x166A3,
+    0xFC60, 0x16703,
+    0xFC61, 0x16763,
+    0xFC62, 0x167C3,
+    0xFC63, 0x16823,
+    0xFC64, 0x16883,
+    0xFC65, 0x168E3,
+    0xFC66, 0x16943,
+    0xFC67, 0x169A3,
+    0xFC68, 0x16A03,
+    0xFC69, 0x16A63,
+    0xFC6A, 0x16AC2,
+    0xFC6B, 0x16B02,
+    0xFC6C, 0x16B42,
+    0xFC6D, 0x16B82,
+    0xFC6E, 0x16BC2,
+    0xFC6F, 0x16C02,
+    0xFC70, 0x16C42,
+    0xFC71, 0x16C82,
+    0xFC72, 0x16CC2,
+    0xFC73, 0x16D02,
+    0xFC74, 0x16D42,
+    0xFC75, 0x16D82,
+    0xFC76, 0x16DC2,
+    0xFC77, 0x16E02,
+    0xFC78, 0x16E42,
+    0xFC79, 0x16E82,
+    0xFC7A, 0x16EC2,
+    0xFC7B, 0x16F02,
+    0xFC7C, 0x16F42,
+    0xFC7D, 0x16F82,
+    0xFC7E, 0x16FC2,
+    0xFC7F, 0x17002,
+    0xFC80, 0x17042,
+    0xFC81, 0x17082,
+    0xFC82, 0x170C2,
+    0xFC83, 0x17102,
+    0xFC84, 0x17142,
+    0xFC85, 0x17182,
+    0xFC86, 0x171C2,
+    0xFC87, 0x17202,
+    0xFC88, 0x17242,
+    0xFC89, 0x17282,
+    0xFC8A, 0x172C2,
+    0xFC8B, 0x17302,
+    0xFC8C, 0x17342,
+    0xFC8D, 0x17382,
+    0xFC8E, 0x173C2,
+    0xFC8F, 0x17402,
+    0xFC90, 0x17442,
+    0xFC91, 0x17482,
+    0xFC92, 0x174C2,
+    0xFC93, 0x17502,
+    0xFC94, 0x17542,
+    0xFC95, 0x17582,
+    0xFC96, 0x175C2,
+    0xFC97, 0x17603,
+    0xFC98, 0x17663,
+    0xFC99, 0x176C3,
+    0xFC9A, 0x17723,
+    0xFC9B, 0x17783,
+    0xFC9C, 0x177E2,
+    0xFC9D, 0x17822,
+    0xFC9E, 0x17862,
+    0xFC9F, 0x178A2,
+    0xFCA0, 0x178E2,
+    0xFCA1, 0x17922,
+    0xFCA2, 0x17962,
+    0xFCA3, 0x179A2,
+    0xFCA4, 0x179E2,
+    0xFCA5, 0x17A22,
+    0xFCA6, 0x17A62,
+    0xFCA7, 0x17AA2,
+    0xFCA8, 0x17AE2,
+    0xFCA9, 0x17B22,
+    0xFCAA, 0x17B62,
+    0xFCAB, 0x17BA2,
+    0xFCAC, 0x17BE2,
+    0xFCAD, 0x17C22,
+    0xFCAE, 0x17C62,
+    0xFCAF, 0x17CA2,
+    0xFCB0, 0x17CE2,
+    0xFCB1, 0x17D22,
+    0xFCB2, 0x17D62,
+    0xFCB3, 0x17DA2,
+    0xFCB4, 0x17DE2,
+    0xFCB5, 0x17E22,
+    0xFCB6, 0x17E62,
+    0xFCB7, 0x17EA2,
+    0xFCB8, 0x17EE2,
+    0xFCB9, 0x17F22,
+    0xFCBA, 0x17F62,
+    0xFCBB, 0x17FA2,
+    0xFCBC, 0x17FE2,
+    0xFCBD, 0x18022,
+    0xFCBE, 0x18062,
+    0xFCBF, 0x180A2,
+    0xFCC0, 0x180E2,
+    0xFCC1, 0x18122,
+    0xFCC2, 0x18162,
+    0xFCC3, 0x181A2,
+    0xFCC4, 0x181E2,
+    0xFCC5, 0x18222,
+    0xFCC6, 0x18262,
+    0xFCC7, 0x182A2,
+    0xFCC8, 0x182E2,
+    0xFCC9, 0x18322,
+    0xFCCA, 0x18362,
+    0xFCCB, 0x183A2,
+    0xFCCC, 0x183E2,
+    0xFCCD, 0x18422,
+    0xFCCE, 0x18462,
+    0xFCCF, 0x184A2,
+    0xFCD0, 0x184E2,
+    0xFCD1, 0x18522,
+    0xFCD2, 0x18562,
+    0xFCD3, 0x185A2,
+    0xFCD4, 0x185E2,
+    0xFCD5, 0x18622,
+    0xFCD6, 0x18662,
+    0xFCD7, 0x186A2,
+    0xFCD8, 0x186E2,
+    0xFCD9, 0x18722,
+    0xFCDA, 0x18762,
+    0xFCDB, 0x187A2,
+    0xFCDC, 0x187E2,
+    0xFCDD, 0x18822,
+    0xFCDE, 0x18862,
+    0xFCDF, 0x188A3,
+    0xFCE0, 0x18903,
+    0xFCE1, 0x18962,
+    0xFCE2, 0x189A2,
+    0xFCE3, 0x189E2,
+    0xFCE4, 0x18A22,
+    0xFCE5, 0x18A62,
+    0xFCE6, 0x18AA2,
+    0xFCE7, 0x18AE2,
+    0xFCE8, 0x18B22,
+    0xFCE9, 0x18B62,
+    0xFCEA, 0x18BA2,
+    0xFCEB, 0x18BE2,
+    0xFCEC, 0x18C22,
+    0xFCED, 0x18C62,
+    0xFCEE, 0x18CA2,
+    0xFCEF, 0x18CE2,
+    0xFCF0, 0x18D22,
+    0xFCF1, 0x18D62,
+    0xFCF2, 0x18DA3,
+    0xFCF3, 0x18E03,
+    0xFCF4, 0x18E63,
+    0xFCF5, 0x18EC2,
+    0xFCF6, 0x18F02,
+    0xFCF7, 0x18F42,
+    0xFCF8, 0x18F82,
+    0xFCF9, 0x18FC2,
+    0xFCFA, 0x19002,
+    0xFCFB, 0x19042,
+    0xFCFC, 0x19082,
+    0xFCFD, 0x190C2,
+    0xFCFE, 0x19102,
+    0xFCFF, 0x19142,
+    0xFD00, 0x19182,
+    0xFD01, 0x191C2,
+    0xFD02, 0x19202,
+    0xFD03, 0x19242,
+    0xFD04, 0x19282,
+    0xFD05, 0x192C2,
+    0xFD06, 0x19302,
+    0xFD07, 0x19342,
+    0xFD08, 0x19382,
+    0xFD09, 0x193C2,
+    0xFD0A, 0x19402,
+    0xFD0B, 0x19442,
+    0xFD0C, 0x19482,
+    0xFD0D, 0x194C2,
+    0xFD0E, 0x19502,
+    0xFD0F, 0x19542,
+    0xFD10, 0x19582,
+    0xFD11, 0x195C2,
+    0xFD12, 0x19602,
+    0xFD13, 0x19642,
+    0xFD14, 0x19682,
+    0xFD15, 0x196C2,
+    0xFD16, 0x19702,
+    0xFD17, 0x19742,
+    0xFD18, 0x19782,
+    0xFD19, 0x197C2,
+    0xFD1A, 0x19802,
+    0xFD1B, 0x19842,
+    0xFD1C, 0x19882,
+    0xFD1D, 0x198C2,
+    0xFD1E, 0x19902,
+    0xFD1F, 0x19942,
+    0xFD20, 0x19982,
+    0xFD21, 0x199C2,
+    0xFD22, 0x19A02,
+    0xFD23, 0x19A42,
+    0xFD24, 0x19A82,
+    0xFD25, 0x19AC2,
+    0xFD26, 0x19B02,
+    0xFD27, 0x19B42,
+    0xFD28, 0x19B82,
+    0xFD29, 0x19BC2,
+    0xFD2A, 0x19C02,
+    0xFD2B, 0x19C42,
+    0xFD2C, 0x19C82,
+    0xFD2D, 0x19CC2,
+    0xFD2E, 0x19D02,
+    0xFD2F, 0x19D42,
+    0xFD30, 0x19D82,
+    0xFD31, 0x19DC2,
+    0xFD32, 0x19E02,
+    0xFD33, 0x19E42,
+    0xFD34, 0x19E82,
+    0xFD35, 0x19EC2,
+    0xFD36, 0x19F02,
+    0xFD37, 0x19F42,
+    0xFD38, 0x19F82,
+    0xFD39, 0x19FC2,
+    0xFD3A, 0x1A002,
+    0xFD3B, 0x1A042,
+    0xFD3C, 0x1A082,
+    0xFD3D, 0x1A0C2,
+    0xFD50, 0x1A103,
+    0xFD51, 0x1A163,
+    0xFD52, 0x1A1C3,
+    0xFD53, 0x1A223,
+    0xFD54, 0x1A283,
+    0xFD55, 0x1A2E3,
+    0xFD56, 0x1A343,
+    0xFD57, 0x1A3A3,
+    0xFD58, 0x1A403,
+    0xFD59, 0x1A463,
+    0xFD5A, 0x1A4C3,
+    0xFD5B, 0x1A523,
+    0xFD5C, 0x1A583,
+    0xFD5D, 0x1A5E3,
+    0xFD5E, 0x1A643,
+    0xFD5F, 0x1A6A3,
+    0xFD60, 0x1A703,
+    0xFD61, 0x1A763,
+    0xFD62, 0x1A7C3,
+    0xFD63, 0x1A823,
+    0xFD64, 0x1A883,
+    0xFD65, 0x1A8E3,
+    0xFD66, 0x1A943,
+    0xFD67, 0x1A9A3,
+    0xFD68, 0x1AA03,
+    0xFD69, 0x1AA63,
+    0xFD6A, 0x1AAC3,
+    0xFD6B, 0x1AB23,
+    0xFD6C, 0x1AB83,
+    0xFD6D, 0x1ABE3,
+    0xFD6E, 0x1AC43,
+    0xFD6F, 0x1ACA3,
+    0xFD70, 0x1AD03,
+    0xFD71, 0x1AD63,
+    0xFD72, 0x1ADC3,
+    0xFD73, 0x1AE23,
+    0xFD74, 0x1AE83,
+    0xFD75, 0x1AEE3,
+    0xFD76, 0x1AF43,
+    0xFD77, 0x1AFA3,
+    0xFD78, 0x1B003,
+    0xFD79, 0x1B063,
+    0xFD7A, 0x1B0C3,
+    0xFD7B, 0x1B123,
+    0xFD7C, 0x1B183,
+    0xFD7D, 0x1B1E3,
+    0xFD7E, 0x1B243,
+    0xFD7F, 0x1B2A3,
+    0xFD80, 0x1B303,
+    0xFD81, 0x1B363,
+    0xFD82, 0x1B3C3,
+    0xFD83, 0x1B423,
+    0xFD84, 0x1B483,
+    0xFD85, 0x1B4E3,
+    0xFD86, 0x1B543,
+    0xFD87, 0x1B5A3,
+    0xFD88, 0x1B603,
+    0xFD89, 0x1B663,
+    0xFD8A, 0x1B6C3,
+    0xFD8B, 0x1B723,
+    0xFD8C, 0x1B783,
+    0xFD8D, 0x1B7E3,
+    0xFD8E, 0x1B843,
+    0xFD8F, 0x1B8A3,
+    0xFD92, 0x1B903,
+    0xFD93, 0x1B963,
+    0xFD94, 0x1B9C3,
+    0xFD95, 0x1BA23,
+    0xFD96, 0x1BA83,
+    0xFD97, 0x1BAE3,
+    0xFD98, 0x1BB43,
+    0xFD99, 0x1BBA3,
+    0xFD9A, 0x1BC03,
+    0xFD9B, 0x1BC63,
+    0xFD9C, 0x1BCC3,
+    0xFD9D, 0x1BD23,
+    0xFD9E, 0x1BD83,
+    0xFD9F, 0x1BDE3,
+    0xFDA0, 0x1BE43,
+    0xFDA1, 0x1BEA3,
+    0xFDA2, 0x1BF03,
+    0xFDA3, 0x1BF63,
+    0xFDA4, 0x1BFC3,
+    0xFDA5, 0x1C023,
+    0xFDA6, 0x1C083,
+    0xFDA7, 0x1C0E3,
+    0xFDA8, 0x1C143,
+    0xFDA9, 0x1C1A3,
+    0xFDAA, 0x1C203,
+    0xFDAB, 0x1C263,
+    0xFDAC, 0x1C2C3,
+    0xFDAD, 0x1C323,
+    0xFDAE, 0x1C383,
+    0xFDAF, 0x1C3E3,
+    0xFDB0, 0x1C443,
+    0xFDB1, 0x1C4A3,
+    0xFDB2, 0x1C503,
+    0xFDB3, 0x1C563,
+    0xFDB4, 0x1C5C3,
+    0xFDB5, 0x1C623,
+    0xFDB6, 0x1C683,
+    0xFDB7, 0x1C6E3,
+    0xFDB8, 0x1C743,
+    0xFDB9, 0x1C7A3,
+    0xFDBA, 0x1C803,
+    0xFDBB, 0x1C863,
+    0xFDBC, 0x1C8C3,
+    0xFDBD, 0x1C923,
+    0xFDBE, 0x1C983,
+    0xFDBF, 0x1C9E3,
+    0xFDC0, 0x1CA43,
+    0xFDC1, 0x1CAA3,
+    0xFDC2, 0x1CB03,
+    0xFDC3, 0x1CB63,
+    0xFDC4, 0x1CBC3,
+    0xFDC5, 0x1CC23,
+    0xFDC6, 0x1CC83,
+    0xFDC7, 0x1CCE3,
+    0xFDF0, 0x1CD43,
+    0xFDF1, 0x1CDA3,
+    0xFDF2, 0x1CE04,
+    0xFDF3, 0x1CE84,
+    0xFDF4, 0x1CF04,
+    0xFDF5, 0x1CF84,
+    0xFDF6, 0x1D004,
+    0xFDF7, 0x1D084,
+    0xFDF8, 0x1D104,
+    0xFDF9, 0x1D183,
+    0xFDFA, 0x1D1F2,
+    0xFDFB, 0x1D428,
+    0xFDFC, 0x1D524,
+    0xFE10, 0x1D5A1,
+    0xFE11, 0x1D5C1,
+    0xFE12, 0x1D5E1,
+    0xFE13, 0x1D601,
+    0xFE14, 0x1D621,
+    0xFE15, 0x1D641,
+    0xFE16, 0x1D661,
+    0xFE17, 0x1D681,
+    0xFE18, 0x1D6A1,
+    0xFE19, 0x1D6C3,
+    0xFE30, 0x1D722,
+    0xFE31, 0x1D761,
+    0xFE32, 0x1D781,
+    0xFE33, 0x1D7A1,
+    0xFE34, 0x1D7C1,
+    0xFE35, 0x1D7E1,
+    0xFE36, 0x1D801,
+    0xFE37, 0x1D821,
+    0xFE38, 0x1D841,
+    0xFE39, 0x1D861,
+    0xFE3A, 0x1D881,
+    0xFE3B, 0x1D8A1,
+    0xFE3C, 0x1D8C1,
+    0xFE3D, 0x1D8E1,
+    0xFE3E, 0x1D901,
+    0xFE3F, 0x1D921,
+    0xFE40, 0x1D941,
+    0xFE41, 0x1D961,
+    0xFE42, 0x1D981,
+    0xFE43, 0x1D9A1,
+    0xFE44, 0x1D9C1,
+    0xFE47, 0x1D9E1,
+    0xFE48, 0x1DA01,
+    0xFE49, 0x1DA22,
+    0xFE4A, 0x1DA62,
+    0xFE4B, 0x1DAA2,
+    0xFE4C, 0x1DAE2,
+    0xFE4D, 0x1DB21,
+    0xFE4E, 0x1DB41,
+    0xFE4F, 0x1DB61,
+    0xFE50, 0x1DB81,
+    0xFE51, 0x1DBA1,
+    0xFE52, 0x1DBC1,
+    0xFE54, 0x1DBE1,
+    0xFE55, 0x1DC01,
+    0xFE56, 0x1DC21,
+    0xFE57, 0x1DC41,
+    0xFE58, 0x1DC61,
+    0xFE59, 0x1DC81,
+    0xFE5A, 0x1DCA1,
+    0xFE5B, 0x1DCC1,
+    0xFE5C, 0x1DCE1,
+    0xFE5D, 0x1DD01,
+    0xFE5E, 0x1DD21,
+    0xFE5F, 0x1DD41,
+    0xFE60, 0x1DD61,
+    0xFE61, 0x1DD81,
+    0xFE62, 0x1DDA1,
+    0xFE63, 0x1DDC1,
+    0xFE64, 0x1DDE1,
+    0xFE65, 0x1DE01,
+    0xFE66, 0x1DE21,
+    0xFE68, 0x1DE41,
+    0xFE69, 0x1DE61,
+    0xFE6A, 0x1DE81,
+    0xFE6B, 0x1DEA1,
+    0xFE70, 0x1DEC2,
+    0xFE71, 0x1DF02,
+    0xFE72, 0x1DF42,
+    0xFE74, 0x1DF82,
+    0xFE76, 0x1DFC2,
+    0xFE77, 0x1E002,
+    0xFE78, 0x1E042,
+    0xFE79, 0x1E082,
+    0xFE7A, 0x1E0C2,
+    0xFE7B, 0x1E102,
+    0xFE7C, 0x1E142,
+    0xFE7D, 0x1E182,
+    0xFE7E, 0x1E1C2,
+    0xFE7F, 0x1E202,
+    0xFE80, 0x1E241,
+    0xFE81, 0x1E262,
+    0xFE82, 0x1E2A2,
+    0xFE83, 0x1E2E2,
+    0xFE84, 0x1E322,
+    0xFE85, 0x1E362,
+    0xFE86, 0x1E3A2,
+    0xFE87, 0x1E3E2,
+    0xFE88, 0x1E422,
+    0xFE89, 0x1E462,
+    0xFE8A, 0x1E4A2,
+    0xFE8B, 0x1E4E2,
+    0xFE8C, 0x1E522,
+    0xFE8D, 0x1E561,
+    0xFE8E, 0x1E581,
+    0xFE8F, 0x1E5A1,
+    0xFE90, 0x1E5C1,
+    0xFE91, 0x1E5E1,
+    0xFE92, 0x1E601,
+    0xFE93, 0x1E621,
+    0xFE94, 0x1E641,
+    0xFE95, 0x1E661,
+    0xFE96, 0x1E681,
+    0xFE97, 0x1E6A1,
+    0xFE98, 0x1E6C1,
+    0xFE99, 0x1E6E1,
+    0xFE9A, 0x1E701,
+    0xFE9B, 0x1E721,
+    0xFE9C, 0x1E741,
+    0xFE9D, 0x1E761,
+    0xFE9E, 0x1E781,
+    0xFE9F, 0x1E7A1,
+    0xFEA0, 0x1E7C1,
+    0xFEA1, 0x1E7E1,
+    0xFEA2, 0x1E801,
+    0xFEA3, 0x1E821,
+    0xFEA4, 0x1E841,
+    0xFEA5, 0x1E861,
+    0xFEA6, 0x1E881,
+    0xFEA7, 0x1E8A1,
+    0xFEA8, 0x1E8C1,
+    0xFEA9, 0x1E8E1,
+    0xFEAA, 0x1E901,
+    0xFEAB, 0x1E921,
+    0xFEAC, 0x1E941,
+    0xFEAD, 0x1E961,
+    0xFEAE, 0x1E981,
+    0xFEAF, 0x1E9A1,
+    0xFEB0, 0x1E9C1,
+    0xFEB1, 0x1E9E1,
+    0xFEB2, 0x1EA01,
+    0xFEB3, 0x1EA21,
+    0xFEB4, 0x1EA41,
+    0xFEB5, 0x1EA61,
+    0xFEB6, 0x1EA81,
+    0xFEB7, 0x1EAA1,
+    0xFEB8, 0x1EAC1,
+    0xFEB9, 0x1EAE1,
+    0xFEBA, 0x1EB01,
+    0xFEBB, 0x1EB21,
+    0xFEBC, 0x1EB41,
+    0xFEBD, 0x1EB61,
+    0xFEBE, 0x1EB81,
+    0xFEBF, 0x1EBA1,
+    0xFEC0, 0x1EBC1,
+    0xFEC1, 0x1EBE1,
+    0xFEC2, 0x1EC01,
+    0xFEC3, 0x1EC21,
+    0xFEC4, 0x1EC41,
+    0xFEC5, 0x1EC61,
+    0xFEC6, 0x1EC81,
+    0xFEC7, 0x1ECA1,
+    0xFEC8, 0x1ECC1,
+    0xFEC9, 0x1ECE1,
+    0xFECA, 0x1ED01,
+    0xFECB, 0x1ED21,
+    0xFECC, 0x1ED41,
+    0xFECD, 0x1ED61,
+    0xFECE, 0x1ED81,
+    0xFECF, 0x1EDA1,
+    0xFED0, 0x1EDC1,
+    0xFED1, 0x1EDE1,
+    0xFED2, 0x1EE01,
+    0xFED3, 0x1EE21,
+    0xFED4, 0x1EE41,
+    0xFED5, 0x1EE61,
+    0xFED6, 0x1EE81,
+    0xFED7, 0x1EEA1,
+    0xFED8, 0x1EEC1,
+    0xFED9, 0x1EEE1,
+    0xFEDA, 0x1EF01,
+    0xFEDB, 0x1EF21,
+    0xFEDC, 0x1EF41,
+    0xFEDD, 0x1EF61,
+    0xFEDE, 0x1EF81,
+    0xFEDF, 0x1EFA1,
+    0xFEE0, 0x1EFC1,
+    0xFEE1, 0x1EFE1,
+    0xFEE2, 0x1F001,
+    0xFEE3, 0x1F021,
+    0xFEE4, 0x1F041,
+    0xFEE5, 0x1F061,
+    0xFEE6, 0x1F081,
+    0xFEE7, 0x1F0A1,
+    0xFEE8, 0x1F0C1,
+    0xFEE9, 0x1F0E1,
+    0xFEEA, 0x1F101,
+    0xFEEB, 0x1F121,
+    0xFEEC, 0x1F141,
+    0xFEED, 0x1F161,
+    0xFEEE, 0x1F181,
+    0xFEEF, 0x1F1A1,
+    0xFEF0, 0x1F1C1,
+    0xFEF1, 0x1F1E1,
+    0xFEF2, 0x1F201,
+    0xFEF3, 0x1F221,
+    0xFEF4, 0x1F241,
+    0xFEF5, 0x1F263,
+    0xFEF6, 0x1F2C3,
+    0xFEF7, 0x1F323,
+    0xFEF8, 0x1F383,
+    0xFEF9, 0x1F3E3,
+    0xFEFA, 0x1F443,
+    0xFEFB, 0x1F4A2,
+    0xFEFC, 0x1F4E2,
+    0xFF01, 0x1F521,
+    0xFF02, 0x1F541,
+    0xFF03, 0x1F561,
+    0xFF04, 0x1F581,
+    0xFF05, 0x1F5A1,
+    0xFF06, 0x1F5C1,
+    0xFF07, 0x1F5E1,
+    0xFF08, 0x1F601,
+    0xFF09, 0x1F621,
+    0xFF0A, 0x1F641,
+    0xFF0B, 0x1F661,
+    0xFF0C, 0x1F681,
+    0xFF0D, 0x1F6A1,
+    0xFF0E, 0x1F6C1,
+    0xFF0F, 0x1F6E1,
+    0xFF10, 0x1F701,
+    0xFF11, 0x1F721,
+    0xFF12, 0x1F741,
+    0xFF13, 0x1F761,
+    0xFF14, 0x1F781,
+    0xFF15, 0x1F7A1,
+    0xFF16, 0x1F7C1,
+    0xFF17, 0x1F7E1,
+    0xFF18, 0x1F801,
+    0xFF19, 0x1F821,
+    0xFF1A, 0x1F841,
+    0xFF1B, 0x1F861,
+    0xFF1C, 0x1F881,
+    0xFF1D, 0x1F8A1,
+    0xFF1E, 0x1F8C1,
+    0xFF1F, 0x1F8E1,
+    0xFF20, 0x1F901,
+    0xFF21, 0x1F921,
+    0xFF22, 0x1F941,
+    0xFF23, 0x1F961,
+    0xFF24, 0x1F981,
+    0xFF25, 0x1F9A1,
+    0xFF26, 0x1F9C1,
+    0xFF27, 0x1F9E1,
+    0xFF28, 0x1FA01,
+    0xFF29, 0x1FA21,
+    0xFF2A, 0x1FA41,
+    0xFF2B, 0x1FA61,
+    0xFF2C, 0x1FA81,
+    0xFF2D, 0x1FAA1,
+    0xFF2E, 0x1FAC1,
+    0xFF2F, 0x1FAE1,
+    0xFF30, 0x1FB01,
+    0xFF31, 0x1FB21,
+    0xFF32, 0x1FB41,
+    0xFF33, 0x1FB61,
+    0xFF34, 0x1FB81,
+    0xFF35, 0x1FBA1,
+    0xFF36, 0x1FBC1,
+    0xFF37, 0x1FBE1,
+    0xFF38, 0x1FC01,
+    0xFF39, 0x1FC21,
+    0xFF3A, 0x1FC41,
+    0xFF3B, 0x1FC61,
+    0xFF3C, 0x1FC81,
+    0xFF3D, 0x1FCA1,
+    0xFF3E, 0x1FCC1,
+    0xFF3F, 0x1FCE1,
+    0xFF40, 0x1FD01,
+    0xFF41, 0x1FD21,
+    0xFF42, 0x1FD41,
+    0xFF43, 0x1FD61,
+    0xFF44, 0x1FD81,
+    0xFF45, 0x1FDA1,
+    0xFF46, 0x1FDC1,
+    0xFF47, 0x1FDE1,
+    0xFF48, 0x1FE01,
+    0xFF49, 0x1FE21,
+    0xFF4A, 0x1FE41,
+    0xFF4B, 0x1FE61,
+    0xFF4C, 0x1FE81,
+    0xFF4D, 0x1FEA1,
+    0xFF4E, 0x1FEC1,
+    0xFF4F, 0x1FEE1,
+    0xFF50, 0x1FF01,
+    0xFF51, 0x1FF21,
+    0xFF52, 0x1FF41,
+    0xFF53, 0x1FF61,
+    0xFF54, 0x1FF81,
+    0xFF55, 0x1FFA1,
+    0xFF56, 0x1FFC1,
+    0xFF57, 0x1FFE1,
+    0xFF58, 0x20001,
+    0xFF59, 0x20021,
+    0xFF5A, 0x20041,
+    0xFF5B, 0x20061,
+    0xFF5C, 0x20081,
+    0xFF5D, 0x200A1,
+    0xFF5E, 0x200C1,
+    0xFF5F, 0x200E1,
+    0xFF60, 0x20101,
+    0xFF61, 0x20121,
+    0xFF62, 0x20141,
+    0xFF63, 0x20161,
+    0xFF64, 0x20181,
+    0xFF65, 0x201A1,
+    0xFF66, 0x201C1,
+    0xFF67, 0x201E1,
+    0xFF68, 0x20201,
+    0xFF69, 0x20221,
+    0xFF6A, 0x20241,
+    0xFF6B, 0x20261,
+    0xFF6C, 0x20281,
+    0xFF6D, 0x202A1,
+    0xFF6E, 0x202C1,
+    0xFF6F, 0x202E1,
+    0xFF70, 0x20301,
+    0xFF71, 0x20321,
+    0xFF72, 0x20341,
+    0xFF73, 0x20361,
+    0xFF74, 0x20381,
+    0xFF75, 0x203A1,
+    0xFF76, 0x203C1,
+    0xFF77, 0x203E1,
+    0xFF78, 0x20401,
+    0xFF79, 0x20421,
+    0xFF7A, 0x20441,
+    0xFF7B, 0x20461,
+    0xFF7C, 0x20481,
+    0xFF7D, 0x204A1,
+    0xFF7E, 0x204C1,
+    0xFF7F, 0x204E1,
+    0xFF80, 0x20501,
+    0xFF81, 0x20521,
+    0xFF82, 0x20541,
+    0xFF83, 0x20561,
+    0xFF84, 0x20581,
+    0xFF85, 0x205A1,
+    0xFF86, 0x205C1,
+    0xFF87, 0x205E1,
+    0xFF88, 0x20601,
+    0xFF89, 0x20621,
+    0xFF8A, 0x20641,
+    0xFF8B, 0x20661,
+    0xFF8C, 0x20681,
+    0xFF8D, 0x206A1,
+    0xFF8E, 0x206C1,
+    0xFF8F, 0x206E1,
+    0xFF90, 0x20701,
+    0xFF91, 0x20721,
+    0xFF92, 0x20741,
+    0xFF93, 0x20761,
+    0xFF94, 0x20781,
+    0xFF95, 0x207A1,
+    0xFF96, 0x207C1,
+    0xFF97, 0x207E1,
+    0xFF98, 0x20801,
+    0xFF99, 0x20821,
+    0xFF9A, 0x20841,
+    0xFF9B, 0x20861,
+    0xFF9C, 0x20881,
+    0xFF9D, 0x208A1,
+    0xFF9E, 0x208C1,
+    0xFF9F, 0x208E1,
+    0xFFA0, 0x20901,
+    0xFFA1, 0x20921,
+    0xFFA2, 0x20941,
+    0xFFA3, 0x20961,
+    0xFFA4, 0x20981,
+    0xFFA5, 0x209A1,
+    0xFFA6, 0x209C1,
+    0xFFA7, 0x209E1,
+    0xFFA8, 0x20A01,
+    0xFFA9, 0x20A21,
+    0xFFAA, 0x20A41,
+    0xFFAB, 0x20A61,
+    0xFFAC, 0x20A81,
+    0xFFAD, 0x20AA1,
+    0xFFAE, 0x20AC1,
+    0xFFAF, 0x20AE1,
+    0xFFB0, 0x20B01,
+    0xFFB1, 0x20B21,
+    0xFFB2, 0x20B41,
+    0xFFB3, 0x20B61,
+    0xFFB4, 0x20B81,
+    0xFFB5, 0x20BA1,
+    0xFFB6, 0x20BC1,
+    0xFFB7, 0x20BE1,
+    0xFFB8, 0x20C01,
+    0xFFB9, 0x20C21,
+    0xFFBA, 0x20C41,
+    0xFFBB, 0x20C61,
+    0xFFBC, 0x20C81,
+    0xFFBD, 0x20CA1,
+    0xFFBE, 0x20CC1,
+    0xFFC2, 0x20CE1,
+    0xFFC3, 0x20D01,
+    0xFFC4, 0x20D21,
+    0xFFC5, 0x20D41,
+    0xFFC6, 0x20D61,
+    0xFFC7, 0x20D81,
+    0xFFCA, 0x20DA1,
+    0xFFCB, 0x20DC1,
+    0xFFCC, 0x20DE1,
+    0xFFCD, 0x20E01,
+    0xFFCE, 0x20E21,
+    0xFFCF, 0x20E41,
+    0xFFD2, 0x20E61,
+    0xFFD3, 0x20E81,
+    0xFFD4, 0x20EA1,
+    0xFFD5, 0x20EC1,
+    0xFFD6, 0x20EE1,
+    0xFFD7, 0x20F01,
+    0xFFDA, 0x20F21,
+    0xFFDB, 0x20F41,
+    0xFFDC, 0x20F61,
+    0xFFE0, 0x20F81,
+    0xFFE1, 0x20FA1,
+    0xFFE2, 0x20FC1,
+    0xFFE3, 0x20FE2,
+    0xFFE4, 0x21021,
+    0xFFE5, 0x21041,
+    0xFFE6, 0x21061,
+    0xFFE8, 0x21081,
+    0xFFE9, 0x210A1,
+    0xFFEA, 0x210C1,
+    0xFFEB, 0x210E1,
+    0xFFEC, 0x21101,
+    0xFFED, 0x21121,
+    0xFFEE, 0x21141,
+    0x10781, 0x21161,
+    0x10782, 0x21181,
+    0x10783, 0x211A1,
+    0x10784, 0x211C1,
+    0x10785, 0x211E1,
+    0x10787, 0x21201,
+    0x10788, 0x21221,
+    0x10789, 0x21241,
+    0x1078A, 0x21261,
+    0x1078B, 0x21281,
+    0x1078C, 0x212A1,
+    0x1078D, 0x212C1,
+    0x1078E, 0x212E1,
+    0x1078F, 0x21301,
+    0x10790, 0x21321,
+    0x10791, 0x21341,
+    0x10792, 0x21361,
+    0x10793, 0x21381,
+    0x10794, 0x213A1,
+    0x10795, 0x213C1,
+    0x10796, 0x213E1,
+    0x10797, 0x21401,
+    0x10798, 0x21421,
+    0x10799, 0x21441,
+    0x1079A, 0x21461,
+    0x1079B, 0x21481,
+    0x1079C, 0x214A2,
+    0x1079D, 0x214E1,
+    0x1079E, 0x21501,
+    0x1079F, 0x21522,
+    0x107A0, 0x21561,
+    0x107A1, 0x21582,
+    0x107A2, 0x215C1,
+    0x107A3, 0x215E1,
+    0x107A4, 0x21601,
+    0x107A5, 0x21621,
+    0x107A6, 0x21641,
+    0x107A7, 0x21662,
+    0x107A8, 0x216A1,
+    0x107A9, 0x216C1,
+    0x107AA, 0x216E1,
+    0x107AB, 0x21701,
+    0x107AC, 0x21721,
+    0x107AD, 0x21741,
+    0x107AE, 0x21761,
+    0x107AF, 0x21781,
+    0x107B0, 0x217A1,
+    0x107B2, 0x217C1,
+    0x107B3, 0x217E1,
+    0x107B4, 0x21801,
+    0x107B5, 0x21821,
+    0x107B6, 0x21841,
+    0x107B7, 0x21861,
+    0x107B8, 0x21881,
+    0x107B9, 0x218A2,
+    0x107BA, 0x218E2,
+    0x1CCD6, 0x21921,
+    0x1CCD7, 0x21941,
+    0x1CCD8, 0x21961,
+    0x1CCD9, 0x21981,
+    0x1CCDA, 0x219A1,
+    0x1CCDB, 0x219C1,
+    0x1CCDC, 0x219E1,
+    0x1CCDD, 0x21A01,
+    0x1CCDE, 0x21A21,
+    0x1CCDF, 0x21A41,
+    0x1CCE0, 0x21A61,
+    0x1CCE1, 0x21A81,
+    0x1CCE2, 0x21AA1,
+    0x1CCE3, 0x21AC1,
+    0x1CCE4, 0x21AE1,
+    0x1CCE5, 0x21B01,
+    0x1CCE6, 0x21B21,
+    0x1CCE7, 0x21B41,
+    0x1CCE8, 0x21B61,
+    0x1CCE9, 0x21B81,
+    0x1CCEA, 0x21BA1,
+    0x1CCEB, 0x21BC1,
+    0x1CCEC, 0x21BE1,
+    0x1CCED, 0x21C01,
+    0x1CCEE, 0x21C21,
+    0x1CCEF, 0x21C41,
+    0x1CCF0, 0x21C61,
+    0x1CCF1, 0x21C81,
+    0x1CCF2, 0x21CA1,
+    0x1CCF3, 0x21CC1,
+    0x1CCF4, 0x21CE1,
+    0x1CCF5, 0x21D01,
+    0x1CCF6, 0x21D21,
+    0x1CCF7, 0x21D41,
+    0x1CCF8, 0x21D61,
+    0x1CCF9, 0x21D81,
+    0x1D400, 0x21DA1,
+    0x1D401, 0x21DC1,
+    0x1D402, 0x21DE1,
+    0x1D403, 0x21E01,
+    0x1D404, 0x21E21,
+    0x1D405, 0x21E41,
+    0x1D406, 0x21E61,
+    0x1D407, 0x21E81,
+    0x1D408, 0x21EA1,
+    0x1D409, 0x21EC1,
+    0x1D40A, 0x21EE1,
+    0x1D40B, 0x21F01,
+    0x1D40C, 0x21F21,
+    0x1D40D, 0x21F41,
+    0x1D40E, 0x21F61,
+    0x1D40F, 0x21F81,
+    0x1D410, 0x21FA1,
+    0x1D411, 0x21FC1,
+    0x1D412, 0x21FE1,
+    0x1D413, 0x22001,
+    0x1D414, 0x22021,
+    0x1D415, 0x22041,
+    0x1D416, 0x22061,
+    0x1D417, 0x22081,
+    0x1D418, 0x220A1,
+    0x1D419, 0x220C1,
+    0x1D41A, 0x220E1,
+    0x1D41B, 0x22101,
+    0x1D41C, 0x22121,
+    0x1D41D, 0x22141,
+    0x1D41E, 0x22161,
+    0x1D41F, 0x22181,
+    0x1D420, 0x221A1,
+    0x1D421, 0x221C1,
+    0x1D422, 0x221E1,
+    0x1D423, 0x22201,
+    0x1D424, 0x22221,
+    0x1D425, 0x22241,
+    0x1D426, 0x22261,
+    0x1D427, 0x22281,
+    0x1D428, 0x222A1,
+    0x1D429, 0x222C1,
+    0x1D42A, 0x222E1,
+    0x1D42B, 0x22301,
+    0x1D42C, 0x22321,
+    0x1D42D, 0x22341,
+    0x1D42E, 0x22361,
+    0x1D42F, 0x22381,
+    0x1D430, 0x223A1,
+    0x1D431, 0x223C1,
+    0x1D432, 0x223E1,
+    0x1D433, 0x22401,
+    0x1D434, 0x22421,
+    0x1D435, 0x22441,
+    0x1D436, 0x22461,
+    0x1D437, 0x22481,
+    0x1D438, 0x224A1,
+    0x1D439, 0x224C1,
+    0x1D43A, 0x224E1,
+    0x1D43B, 0x22501,
+    0x1D43C, 0x22521,
+    0x1D43D, 0x22541,
+    0x1D43E, 0x22561,
+    0x1D43F, 0x22581,
+    0x1D440, 0x225A1,
+    0x1D441, 0x225C1,
+    0x1D442, 0x225E1,
+    0x1D443, 0x22601,
+    0x1D444, 0x22621,
+    0x1D445, 0x22641,
+    0x1D446, 0x22661,
+    0x1D447, 0x22681,
+    0x1D448, 0x226A1,
+    0x1D449, 0x226C1,
+    0x1D44A, 0x226E1,
+    0x1D44B, 0x22701,
+    0x1D44C, 0x22721,
+    0x1D44D, 0x22741,
+    0x1D44E, 0x22761,
+    0x1D44F, 0x22781,
+    0x1D450, 0x227A1,
+    0x1D451, 0x227C1,
+    0x1D452, 0x227E1,
+    0x1D453, 0x22801,
+    0x1D454, 0x22821,
+    0x1D456, 0x22841,
+    0x1D457, 0x22861,
+    0x1D458, 0x22881,
+    0x1D459, 0x228A1,
+    0x1D45A, 0x228C1,
+    0x1D45B, 0x228E1,
+    0x1D45C, 0x22901,
+    0x1D45D, 0x22921,
+    0x1D45E, 0x22941,
+    0x1D45F, 0x22961,
+    0x1D460, 0x22981,
+    0x1D461, 0x229A1,
+    0x1D462, 0x229C1,
+    0x1D463, 0x229E1,
+    0x1D464, 0x22A01,
+    0x1D465, 0x22A21,
+    0x1D466, 0x22A41,
+    0x1D467, 0x22A61,
+    0x1D468, 0x22A81,
+    0x1D469, 0x22AA1,
+    0x1D46A, 0x22AC1,
+    0x1D46B, 0x22AE1,
+    0x1D46C, 0x22B01,
+    0x1D46D, 0x22B21,
+    0x1D46E, 0x22B41,
+    0x1D46F, 0x22B61,
+    0x1D470, 0x22B81,
+    0x1D471, 0x22BA1,
+    0x1D472, 0x22BC1,
+    0x1D473, 0x22BE1,
+    0x1D474, 0x22C01,
+    0x1D475, 0x22C21,
+    0x1D476, 0x22C41,
+    0x1D477, 0x22C61,
+    0x1D478, 0x22C81,
+    0x1D479, 0x22CA1,
+    0x1D47A, 0x22CC1,
+    0x1D47B, 0x22CE1,
+    0x1D47C, 0x22D01,
+    0x1D47D, 0x22D21,
+    0x1D47E, 0x22D41,
+    0x1D47F, 0x22D61,
+    0x1D480, 0x22D81,
+    0x1D481, 0x22DA1,
+    0x1D482, 0x22DC1,
+    0x1D483, 0x22DE1,
+    0x1D484, 0x22E01,
+    0x1D485, 0x22E21,
+    0x1D486, 0x22E41,
+    0x1D487, 0x22E61,
+    0x1D488, 0x22E81,
+    0x1D489, 0x22EA1,
+    0x1D48A, 0x22EC1,
+    0x1D48B, 0x22EE1,
+    0x1D48C, 0x22F01,
+    0x1D48D, 0x22F21,
+    0x1D48E, 0x22F41,
+    0x1D48F, 0x22F61,
+    0x1D490, 0x22F81,
+    0x1D491, 0x22FA1,
+    0x1D492, 0x22FC1,
+    0x1D493, 0x22FE1,
+    0x1D494, 0x23001,
+    0x1D495, 0x23021,
+    0x1D496, 0x23041,
+    0x1D497, 0x23061,
+    0x1D498, 0x23081,
+    0x1D499, 0x230A1,
+    0x1D49A, 0x230C1,
+    0x1D49B, 0x230E1,
+    0x1D49C, 0x23101,
+    0x1D49E, 0x23121,
+    0x1D49F, 0x23141,
+    0x1D4A2, 0x23161,
+    0x1D4A5, 0x23181,
+    0x1D4A6, 0x231A1,
+    0x1D4A9, 0x231C1,
+    0x1D4AA, 0x231E1,
+    0x1D4AB, 0x23201,
+    0x1D4AC, 0x23221,
+    0x1D4AE, 0x23241,
+    0x1D4AF, 0x23261,
+    0x1D4B0, 0x23281,
+    0x1D4B1, 0x232A1,
+    0x1D4B2, 0x232C1,
+    0x1D4B3, 0x232E1,
+    0x1D4B4, 0x23301,
+    0x1D4B5, 0x23321,
+    0x1D4B6, 0x23341,
+    0x1D4B7, 0x23361,
+    0x1D4B8, 0x23381,
+    0x1D4B9, 0x233A1,
+    0x1D4BB, 0x233C1,
+    0x1D4BD, 0x233E1,
+    0x1D4BE, 0x23401,
+    0x1D4BF, 0x23421,
+    0x1D4C0, 0x23441,
+    0x1D4C1, 0x23461,
+    0x1D4C2, 0x23481,
+    0x1D4C3, 0x234A1,
+    0x1D4C5, 0x234C1,
+    0x1D4C6, 0x234E1,
+    0x1D4C7, 0x23501,
+    0x1D4C8, 0x23521,
+    0x1D4C9, 0x23541,
+    0x1D4CA, 0x23561,
+    0x1D4CB, 0x23581,
+    0x1D4CC, 0x235A1,
+    0x1D4CD, 0x235C1,
+    0x1D4CE, 0x235E1,
+    0x1D4CF, 0x23601,
+    0x1D4D0, 0x23621,
+    0x1D4D1, 0x23641,
+    0x1D4D2, 0x23661,
+    0x1D4D3, 0x23681,
+    0x1D4D4, 0x236A1,
+    0x1D4D5, 0x236C1,
+    0x1D4D6, 0x236E1,
+    0x1D4D7, 0x23701,
+    0x1D4D8, 0x23721,
+    0x1D4D9, 0x23741,
+    0x1D4DA, 0x23761,
+    0x1D4DB, 0x23781,
+    0x1D4DC, 0x237A1,
+    0x1D4DD, 0x237C1,
+    0x1D4DE, 0x237E1,
+    0x1D4DF, 0x23801,
+    0x1D4E0, 0x23821,
+    0x1D4E1, 0x23841,
+    0x1D4E2, 0x23861,
+    0x1D4E3, 0x23881,
+    0x1D4E4, 0x238A1,
+    0x1D4E5, 0x238C1,
+    0x1D4E6, 0x238E1,
+    0x1D4E7, 0x23901,
+    0x1D4E8, 0x23921,
+    0x1D4E9, 0x23941,
+    0x1D4EA, 0x23961,
+    0x1D4EB, 0x23981,
+    0x1D4EC, 0x239A1,
+    0x1D4ED, 0x239C1,
+    0x1D4EE, 0x239E1,
+    0x1D4EF, 0x23A01,
+    0x1D4F0, 0x23A21,
+    0x1D4F1, 0x23A41,
+    0x1D4F2, 0x23A61,
+    0x1D4F3, 0x23A81,
+    0x1D4F4, 0x23AA1,
+    0x1D4F5, 0x23AC1,
+    0x1D4F6, 0x23AE1,
+    0x1D4F7, 0x23B01,
+    0x1D4F8, 0x23B21,
+    0x1D4F9, 0x23B41,
+    0x1D4FA, 0x23B61,
+    0x1D4FB, 0x23B81,
+    0x1D4FC, 0x23BA1,
+    0x1D4FD, 0x23BC1,
+    0x1D4FE, 0x23BE1,
+    0x1D4FF, 0x23C01,
+    0x1D500, 0x23C21,
+    0x1D501, 0x23C41,
+    0x1D502, 0x23C61,
+    0x1D503, 0x23C81,
+    0x1D504, 0x23CA1,
+    0x1D505, 0x23CC1,
+    0x1D507, 0x23CE1,
+    0x1D508, 0x23D01,
+    0x1D509, 0x23D21,
+    0x1D50A, 0x23D41,
+    0x1D50D, 0x23D61,
+    0x1D50E, 0x23D81,
+    0x1D50F, 0x23DA1,
+    0x1D510, 0x23DC1,
+    0x1D511, 0x23DE1,
+    0x1D512, 0x23E01,
+    0x1D513, 0x23E21,
+    0x1D514, 0x23E41,
+    0x1D516, 0x23E61,
+    0x1D517, 0x23E81,
+    0x1D518, 0x23EA1,
+    0x1D519, 0x23EC1,
+    0x1D51A, 0x23EE1,
+    0x1D51B, 0x23F01,
+    0x1D51C, 0x23F21,
+    0x1D51E, 0x23F41,
+    0x1D51F, 0x23F61,
+    0x1D520, 0x23F81,
+    0x1D521, 0x23FA1,
+    0x1D522, 0x23FC1,
+    0x1D523, 0x23FE1,
+    0x1D524, 0x24001,
+    0x1D525, 0x24021,
+    0x1D526, 0x24041,
+    0x1D527, 0x24061,
+    0x1D528, 0x24081,
+    0x1D529, 0x240A1,
+    0x1D52A, 0x240C1,
+    0x1D52B, 0x240E1,
+    0x1D52C, 0x24101,
+    0x1D52D, 0x24121,
+    0x1D52E, 0x24141,
+    0x1D52F, 0x24161,
+    0x1D530, 0x24181,
+    0x1D531, 0x241A1,
+    0x1D532, 0x241C1,
+    0x1D533, 0x241E1,
+    0x1D534, 0x24201,
+    0x1D535, 0x24221,
+    0x1D536, 0x24241,
+    0x1D537, 0x24261,
+    0x1D538, 0x24281,
+    0x1D539, 0x242A1,
+    0x1D53B, 0x242C1,
+    0x1D53C, 0x242E1,
+    0x1D53D, 0x24301,
+    0x1D53E, 0x24321,
+    0x1D540, 0x24341,
+    0x1D541, 0x24361,
+    0x1D542, 0x24381,
+    0x1D543, 0x243A1,
+    0x1D544, 0x243C1,
+    0x1D546, 0x243E1,
+    0x1D54A, 0x24401,
+    0x1D54B, 0x24421,
+    0x1D54C, 0x24441,
+    0x1D54D, 0x24461,
+    0x1D54E, 0x24481,
+    0x1D54F, 0x244A1,
+    0x1D550, 0x244C1,
+    0x1D552, 0x244E1,
+    0x1D553, 0x24501,
+    0x1D554, 0x24521,
+    0x1D555, 0x24541,
+    0x1D556, 0x24561,
+    0x1D557, 0x24581,
+    0x1D558, 0x245A1,
+    0x1D559, 0x245C1,
+    0x1D55A, 0x245E1,
+    0x1D55B, 0x24601,
+    0x1D55C, 0x24621,
+    0x1D55D, 0x24641,
+    0x1D55E, 0x24661,
+    0x1D55F, 0x24681,
+    0x1D560, 0x246A1,
+    0x1D561, 0x246C1,
+    0x1D562, 0x246E1,
+    0x1D563, 0x24701,
+    0x1D564, 0x24721,
+    0x1D565, 0x24741,
+    0x1D566, 0x24761,
+    0x1D567, 0x24781,
+    0x1D568, 0x247A1,
+    0x1D569, 0x247C1,
+    0x1D56A, 0x247E1,
+    0x1D56B, 0x24801,
+    0x1D56C, 0x24821,
+    0x1D56D, 0x24841,
+    0x1D56E, 0x24861,
+    0x1D56F, 0x24881,
+    0x1D570, 0x248A1,
+    0x1D571, 0x248C1,
+    0x1D572, 0x248E1,
+    0x1D573, 0x24901,
+    0x1D574, 0x24921,
+    0x1D575, 0x24941,
+    0x1D576, 0x24961,
+    0x1D577, 0x24981,
+    0x1D578, 0x249A1,
+    0x1D579, 0x249C1,
+    0x1D57A, 0x249E1,
+    0x1D57B, 0x24A01,
+    0x1D57C, 0x24A21,
+    0x1D57D, 0x24A41,
+    0x1D57E, 0x24A61,
+    0x1D57F, 0x24A81,
+    0x1D580, 0x24AA1,
+    0x1D581, 0x24AC1,
+    0x1D582, 0x24AE1,
+    0x1D583, 0x24B01,
+    0x1D584, 0x24B21,
+    0x1D585, 0x24B41,
+    0x1D586, 0x24B61,
+    0x1D587, 0x24B81,
+    0x1D588, 0x24BA1,
+    0x1D589, 0x24BC1,
+    0x1D58A, 0x24BE1,
+    0x1D58B, 0x24C01,
+    0x1D58C, 0x24C21,
+    0x1D58D, 0x24C41,
+    0x1D58E, 0x24C61,
+    0x1D58F, 0x24C81,
+    0x1D590, 0x24CA1,
+    0x1D591, 0x24CC1,
+    0x1D592, 0x24CE1,
+    0x1D593, 0x24D01,
+    0x1D594, 0x24D21,
+    0x1D595, 0x24D41,
+    0x1D596, 0x24D61,
+    0x1D597, 0x24D81,
+    0x1D598, 0x24DA1,
+    0x1D599, 0x24DC1,
+    0x1D59A, 0x24DE1,
+    0x1D59B, 0x24E01,
+    0x1D59C, 0x24E21,
+    0x1D59D, 0x24E41,
+    0x1D59E, 0x24E61,
+    0x1D59F, 0x24E81,
+    0x1D5A0, 0x24EA1,
+    0x1D5A1, 0x24EC1,
+    0x1D5A2, 0x24EE1,
+    0x1D5A3, 0x24F01,
+    0x1D5A4, 0x24F21,
+    0x1D5A5, 0x24F41,
+    0x1D5A6, 0x24F61,
+    0x1D5A7, 0x24F81,
+    0x1D5A8, 0x24FA1,
+    0x1D5A9, 0x24FC1,
+    0x1D5AA, 0x24FE1,
+    0x1D5AB, 0x25001,
+    0x1D5AC, 0x25021,
+    0x1D5AD, 0x25041,
+    0x1D5AE, 0x25061,
+    0x1D5AF, 0x25081,
+    0x1D5B0, 0x250A1,
+    0x1D5B1, 0x250C1,
+    0x1D5B2, 0x250E1,
+    0x1D5B3, 0x25101,
+    0x1D5B4, 0x25121,
+    0x1D5B5, 0x25141,
+    0x1D5B6, 0x25161,
+    0x1D5B7, 0x25181,
+    0x1D5B8, 0x251A1,
+    0x1D5B9, 0x251C1,
+    0x1D5BA, 0x251E1,
+    0x1D5BB, 0x25201,
+    0x1D5BC, 0x25221,
+    0x1D5BD, 0x25241,
+    0x1D5BE, 0x25261,
+    0x1D5BF, 0x25281,
+    0x1D5C0, 0x252A1,
+    0x1D5C1, 0x252C1,
+    0x1D5C2, 0x252E1,
+    0x1D5C3, 0x25301,
+    0x1D5C4, 0x25321,
+    0x1D5C5, 0x25341,
+    0x1D5C6, 0x25361,
+    0x1D5C7, 0x25381,
+    0x1D5C8, 0x253A1,
+    0x1D5C9, 0x253C1,
+    0x1D5CA, 0x253E1,
+    0x1D5CB, 0x25401,
+    0x1D5CC, 0x25421,
+    0x1D5CD, 0x25441,
+    0x1D5CE, 0x25461,
+    0x1D5CF, 0x25481,
+    0x1D5D0, 0x254A1,
+    0x1D5D1, 0x254C1,
+    0x1D5D2, 0x254E1,
+    0x1D5D3, 0x25501,
+    0x1D5D4, 0x25521,
+    0x1D5D5, 0x25541,
+    0x1D5D6, 0x25561,
+    0x1D5D7, 0x25581,
+    0x1D5D8, 0x255A1,
+    0x1D5D9, 0x255C1,
+    0x1D5DA, 0x255E1,
+    0x1D5DB, 0x25601,
+    0x1D5DC, 0x25621,
+    0x1D5DD, 0x25641,
+    0x1D5DE, 0x25661,
+    0x1D5DF, 0x25681,
+    0x1D5E0, 0x256A1,
+    0x1D5E1, 0x256C1,
+    0x1D5E2, 0x256E1,
+    0x1D5E3, 0x25701,
+    0x1D5E4, 0x25721,
+    0x1D5E5, 0x25741,
+    0x1D5E6, 0x25761,
+    0x1D5E7, 0x25781,
+    0x1D5E8, 0x257A1,
+    0x1D5E9, 0x257C1,
+    0x1D5EA, 0x257E1,
+    0x1D5EB, 0x25801,
+    0x1D5EC, 0x25821,
+    0x1D5ED, 0x25841,
+    0x1D5EE, 0x25861,
+    0x1D5EF, 0x25881,
+    0x1D5F0, 0x258A1,
+    0x1D5F1, 0x258C1,
+    0x1D5F2, 0x258E1,
+    0x1D5F3, 0x25901,
+    0x1D5F4, 0x25921,
+    0x1D5F5, 0x25941,
+    0x1D5F6, 0x25961,
+    0x1D5F7, 0x25981,
+    0x1D5F8, 0x259A1,
+    0x1D5F9, 0x259C1,
+    0x1D5FA, 0x259E1,
+    0x1D5FB, 0x25A01,
+    0x1D5FC, 0x25A21,
+    0x1D5FD, 0x25A41,
+    0x1D5FE, 0x25A61,
+    0x1D5FF, 0x25A81,
+    0x1D600, 0x25AA1,
+    0x1D601, 0x25AC1,
+    0x1D602, 0x25AE1,
+    0x1D603, 0x25B01,
+    0x1D604, 0x25B21,
+    0x1D605, 0x25B41,
+    0x1D606, 0x25B61,
+    0x1D607, 0x25B81,
+    0x1D608, 0x25BA1,
+    0x1D609, 0x25BC1,
+    0x1D60A, 0x25BE1,
+    0x1D60B, 0x25C01,
+    0x1D60C, 0x25C21,
+    0x1D60D, 0x25C41,
+    0x1D60E, 0x25C61,
+    0x1D60F, 0x25C81,
+    0x1D610, 0x25CA1,
+    0x1D611, 0x25CC1,
+    0x1D612, 0x25CE1,
+    0x1D613, 0x25D01,
+    0x1D614, 0x25D21,
+    0x1D615, 0x25D41,
+    0x1D616, 0x25D61,
+    0x1D617, 0x25D81,
+    0x1D618, 0x25DA1,
+    0x1D619, 0x25DC1,
+    0x1D61A, 0x25DE1,
+    0x1D61B, 0x25E01,
+    0x1D61C, 0x25E21,
+    0x1D61D, 0x25E41,
+    0x1D61E, 0x25E61,
+    0x1D61F, 0x25E81,
+    0x1D620, 0x25EA1,
+    0x1D621, 0x25EC1,
+    0x1D622, 0x25EE1,
+    0x1D623, 0x25F01,
+    0x1D624, 0x25F21,
+    0x1D625, 0x25F41,
+    0x1D626, 0x25F61,
+    0x1D627, 0x25F81,
+    0x1D628, 0x25FA1,
+    0x1D629, 0x25FC1,
+    0x1D62A, 0x25FE1,
+    0x1D62B, 0x26001,
+    0x1D62C, 0x26021,
+    0x1D62D, 0x26041,
+    0x1D62E, 0x26061,
+    0x1D62F, 0x26081,
+    0x1D630, 0x260A1,
+    0x1D631, 0x260C1,
+    0x1D632, 0x260E1,
+    0x1D633, 0x26101,
+    0x1D634, 0x26121,
+    0x1D635, 0x26141,
+    0x1D636, 0x26161,
+    0x1D637, 0x26181,
+    0x1D638, 0x261A1,
+    0x1D639, 0x261C1,
+    0x1D63A, 0x261E1,
+    0x1D63B, 0x26201,
+    0x1D63C, 0x26221,
+    0x1D63D, 0x26241,
+    0x1D63E, 0x26261,
+    0x1D63F, 0x26281,
+    0x1D640, 0x262A1,
+    0x1D641, 0x262C1,
+    0x1D642, 0x262E1,
+    0x1D643, 0x26301,
+    0x1D644, 0x26321,
+    0x1D645, 0x26341,
+    0x1D646, 0x26361,
+    0x1D647, 0x26381,
+    0x1D648, 0x263A1,
+    0x1D649, 0x263C1,
+    0x1D64A, 0x263E1,
+    0x1D64B, 0x26401,
+    0x1D64C, 0x26421,
+    0x1D64D, 0x26441,
+    0x1D64E, 0x26461,
+    0x1D64F, 0x26481,
+    0x1D650, 0x264A1,
+    0x1D651, 0x264C1,
+    0x1D652, 0x264E1,
+    0x1D653, 0x26501,
+    0x1D654, 0x26521,
+    0x1D655, 0x26541,
+    0x1D656, 0x26561,
+    0x1D657, 0x26581,
+    0x1D658, 0x265A1,
+    0x1D659, 0x265C1,
+    0x1D65A, 0x265E1,
+    0x1D65B, 0x26601,
+    0x1D65C, 0x26621,
+    0x1D65D, 0x26641,
+    0x1D65E, 0x26661,
+    0x1D65F, 0x26681,
+    0x1D660, 0x266A1,
+    0x1D661, 0x266C1,
+    0x1D662, 0x266E1,
+    0x1D663, 0x26701,
+    0x1D664, 0x26721,
+    0x1D665, 0x26741,
+    0x1D666, 0x26761,
+    0x1D667, 0x26781,
+    0x1D668, 0x267A1,
+    0x1D669, 0x267C1,
+    0x1D66A, 0x267E1,
+    0x1D66B, 0x26801,
+    0x1D66C, 0x26821,
+    0x1D66D, 0x26841,
+    0x1D66E, 0x26861,
+    0x1D66F, 0x26881,
+    0x1D670, 0x268A1,
+    0x1D671, 0x268C1,
+    0x1D672, 0x268E1,
+    0x1D673, 0x26901,
+    0x1D674, 0x26921,
+    0x1D675, 0x26941,
+    0x1D676, 0x26961,
+    0x1D677, 0x26981,
+    0x1D678, 0x269A1,
+    0x1D679, 0x269C1,
+    0x1D67A, 0x269E1,
+    0x1D67B, 0x26A01,
+    0x1D67C, 0x26A21,
+    0x1D67D, 0x26A41,
+    0x1D67E, 0x26A61,
+    0x1D67F, 0x26A81,
+    0x1D680, 0x26AA1,
+    0x1D681, 0x26AC1,
+    0x1D682, 0x26AE1,
+    0x1D683, 0x26B01,
+    0x1D684, 0x26B21,
+    0x1D685, 0x26B41,
+    0x1D686, 0x26B61,
+    0x1D687, 0x26B81,
+    0x1D688, 0x26BA1,
+    0x1D689, 0x26BC1,
+    0x1D68A, 0x26BE1,
+    0x1D68B, 0x26C01,
+    0x1D68C, 0x26C21,
+    0x1D68D, 0x26C41,
+    0x1D68E, 0x26C61,
+    0x1D68F, 0x26C81,
+    0x1D690, 0x26CA1,
+    0x1D691, 0x26CC1,
+    0x1D692, 0x26CE1,
+    0x1D693, 0x26D01,
+    0x1D694, 0x26D21,
+    0x1D695, 0x26D41,
+    0x1D696, 0x26D61,
+    0x1D697, 0x26D81,
+    0x1D698, 0x26DA1,
+    0x1D699, 0x26DC1,
+    0x1D69A, 0x26DE1,
+    0x1D69B, 0x26E01,
+    0x1D69C, 0x26E21,
+    0x1D69D, 0x26E41,
+    0x1D69E, 0x26E61,
+    0x1D69F, 0x26E81,
+    0x1D6A0, 0x26EA1,
+    0x1D6A1, 0x26EC1,
+    0x1D6A2, 0x26EE1,
+    0x1D6A3, 0x26F01,
+    0x1D6A4, 0x26F21,
+    0x1D6A5, 0x26F41,
+    0x1D6A8, 0x26F61,
+    0x1D6A9, 0x26F81,
+    0x1D6AA, 0x26FA1,
+    0x1D6AB, 0x26FC1,
+    0x1D6AC, 0x26FE1,
+    0x1D6AD, 0x27001,
+    0x1D6AE, 0x27021,
+    0x1D6AF, 0x27041,
+    0x1D6B0, 0x27061,
+    0x1D6B1, 0x27081,
+    0x1D6B2, 0x270A1,
+    0x1D6B3, 0x270C1,
+    0x1D6B4, 0x270E1,
+    0x1D6B5, 0x27101,
+    0x1D6B6, 0x27121,
+    0x1D6B7, 0x27141,
+    0x1D6B8, 0x27161,
+    0x1D6B9, 0x27181,
+    0x1D6BA, 0x271A1,
+    0x1D6BB, 0x271C1,
+    0x1D6BC, 0x271E1,
+    0x1D6BD, 0x27201,
+    0x1D6BE, 0x27221,
+    0x1D6BF, 0x27241,
+    0x1D6C0, 0x27261,
+    0x1D6C1, 0x27281,
+    0x1D6C2, 0x272A1,
+    0x1D6C3, 0x272C1,
+    0x1D6C4, 0x272E1,
+    0x1D6C5, 0x27301,
+    0x1D6C6, 0x27321,
+    0x1D6C7, 0x27341,
+    0x1D6C8, 0x27361,
+    0x1D6C9, 0x27381,
+    0x1D6CA, 0x273A1,
+    0x1D6CB, 0x273C1,
+    0x1D6CC, 0x273E1,
+    0x1D6CD, 0x27401,
+    0x1D6CE, 0x27421,
+    0x1D6CF, 0x27441,
+    0x1D6D0, 0x27461,
+    0x1D6D1, 0x27481,
+    0x1D6D2, 0x274A1,
+    0x1D6D3, 0x274C1,
+    0x1D6D4, 0x274E1,
+    0x1D6D5, 0x27501,
+    0x1D6D6, 0x27521,
+    0x1D6D7, 0x27541,
+    0x1D6D8, 0x27561,
+    0x1D6D9, 0x27581,
+    0x1D6DA, 0x275A1,
+    0x1D6DB, 0x275C1,
+    0x1D6DC, 0x275E1,
+    0x1D6DD, 0x27601,
+    0x1D6DE, 0x27621,
+    0x1D6DF, 0x27641,
+    0x1D6E0, 0x27661,
+    0x1D6E1, 0x27681,
+    0x1D6E2, 0x276A1,
+    0x1D6E3, 0x276C1,
+    0x1D6E4, 0x276E1,
+    0x1D6E5, 0x27701,
+    0x1D6E6, 0x27721,
+    0x1D6E7, 0x27741,
+    0x1D6E8, 0x27761,
+    0x1D6E9, 0x27781,
+    0x1D6EA, 0x277A1,
+    0x1D6EB, 0x277C1,
+    0x1D6EC, 0x277E1,
+    0x1D6ED, 0x27801,
+    0x1D6EE, 0x27821,
+    0x1D6EF, 0x27841,
+    0x1D6F0, 0x27861,
+    0x1D6F1, 0x27881,
+    0x1D6F2, 0x278A1,
+    0x1D6F3, 0x278C1,
+    0x1D6F4, 0x278E1,
+    0x1D6F5, 0x27901,
+    0x1D6F6, 0x27921,
+    0x1D6F7, 0x27941,
+    0x1D6F8, 0x27961,
+    0x1D6F9, 0x27981,
+    0x1D6FA, 0x279A1,
+    0x1D6FB, 0x279C1,
+    0x1D6FC, 0x279E1,
+    0x1D6FD, 0x27A01,
+    0x1D6FE, 0x27A21,
+    0x1D6FF, 0x27A41,
+    0x1D700, 0x27A61,
+    0x1D701, 0x27A81,
+    0x1D702, 0x27AA1,
+    0x1D703, 0x27AC1,
+    0x1D704, 0x27AE1,
+    0x1D705, 0x27B01,
+    0x1D706, 0x27B21,
+    0x1D707, 0x27B41,
+    0x1D708, 0x27B61,
+    0x1D709, 0x27B81,
+    0x1D70A, 0x27BA1,
+    0x1D70B, 0x27BC1,
+    0x1D70C, 0x27BE1,
+    0x1D70D, 0x27C01,
+    0x1D70E, 0x27C21,
+    0x1D70F, 0x27C41,
+    0x1D710, 0x27C61,
+    0x1D711, 0x27C81,
+    0x1D712, 0x27CA1,
+    0x1D713, 0x27CC1,
+    0x1D714, 0x27CE1,
+    0x1D715, 0x27D01,
+    0x1D716, 0x27D21,
+    0x1D717, 0x27D41,
+    0x1D718, 0x27D61,
+    0x1D719, 0x27D81,
+    0x1D71A, 0x27DA1,
+    0x1D71B, 0x27DC1,
+    0x1D71C, 0x27DE1,
+    0x1D71D, 0x27E01,
+    0x1D71E, 0x27E21,
+    0x1D71F, 0x27E41,
+    0x1D720, 0x27E61,
+    0x1D721, 0x27E81,
+    0x1D722, 0x27EA1,
+    0x1D723, 0x27EC1,
+    0x1D724, 0x27EE1,
+    0x1D725, 0x27F01,
+    0x1D726, 0x27F21,
+    0x1D727, 0x27F41,
+    0x1D728, 0x27F61,
+    0x1D729, 0x27F81,
+    0x1D72A, 0x27FA1,
+    0x1D72B, 0x27FC1,
+    0x1D72C, 0x27FE1,
+    0x1D72D, 0x28001,
+    0x1D72E, 0x28021,
+    0x1D72F, 0x28041,
+    0x1D730, 0x28061,
+    0x1D731, 0x28081,
+    0x1D732, 0x280A1,
+    0x1D733, 0x280C1,
+    0x1D734, 0x280E1,
+    0x1D735, 0x28101,
+    0x1D736, 0x28121,
+    0x1D737, 0x28141,
+    0x1D738, 0x28161,
+    0x1D739, 0x28181,
+    0x1D73A, 0x281A1,
+    0x1D73B, 0x281C1,
+    0x1D73C, 0x281E1,
+    0x1D73D, 0x28201,
+    0x1D73E, 0x28221,
+    0x1D73F, 0x28241,
+    0x1D740, 0x28261,
+    0x1D741, 0x28281,
+    0x1D742, 0x282A1,
+    0x1D743, 0x282C1,
+    0x1D744, 0x282E1,
+    0x1D745, 0x28301,
+    0x1D746, 0x28321,
+    0x1D747, 0x28341,
+    0x1D748, 0x28361,
+    0x1D749, 0x28381,
+    0x1D74A, 0x283A1,
+    0x1D74B, 0x283C1,
+    0x1D74C, 0x283E1,
+    0x1D74D, 0x28401,
+    0x1D74E, 0x28421,
+    0x1D74F, 0x28441,
+    0x1D750, 0x28461,
+    0x1D751, 0x28481,
+    0x1D752, 0x284A1,
+    0x1D753, 0x284C1,
+    0x1D754, 0x284E1,
+    0x1D755, 0x28501,
+    0x1D756, 0x28521,
+    0x1D757, 0x28541,
+    0x1D758, 0x28561,
+    0x1D759, 0x28581,
+    0x1D75A, 0x285A1,
+    0x1D75B, 0x285C1,
+    0x1D75C, 0x285E1,
+    0x1D75D, 0x28601,
+    0x1D75E, 0x28621,
+    0x1D75F, 0x28641,
+    0x1D760, 0x28661,
+    0x1D761, 0x28681,
+    0x1D762, 0x286A1,
+    0x1D763, 0x286C1,
+    0x1D764, 0x286E1,
+    0x1D765, 0x28701,
+    0x1D766, 0x28721,
+    0x1D767, 0x28741,
+    0x1D768, 0x28761,
+    0x1D769, 0x28781,
+    0x1D76A, 0x287A1,
+    0x1D76B, 0x287C1,
+    0x1D76C, 0x287E1,
+    0x1D76D, 0x28801,
+    0x1D76E, 0x28821,
+    0x1D76F, 0x28841,
+    0x1D770, 0x28861,
+    0x1D771, 0x28881,
+    0x1D772, 0x288A1,
+    0x1D773, 0x288C1,
+    0x1D774, 0x288E1,
+    0x1D775, 0x28901,
+    0x1D776, 0x28921,
+    0x1D777, 0x28941,
+    0x1D778, 0x28961,
+    0x1D779, 0x28981,
+    0x1D77A, 0x289A1,
+    0x1D77B, 0x289C1,
+    0x1D77C, 0x289E1,
+    0x1D77D, 0x28A01,
+    0x1D77E, 0x28A21,
+    0x1D77F, 0x28A41,
+    0x1D780, 0x28A61,
+    0x1D781, 0x28A81,
+    0x1D782, 0x28AA1,
+    0x1D783, 0x28AC1,
+    0x1D784, 0x28AE1,
+    0x1D785, 0x28B01,
+    0x1D786, 0x28B21,
+    0x1D787, 0x28B41,
+    0x1D788, 0x28B61,
+    0x1D789, 0x28B81,
+    0x1D78A, 0x28BA1,
+    0x1D78B, 0x28BC1,
+    0x1D78C, 0x28BE1,
+    0x1D78D, 0x28C01,
+    0x1D78E, 0x28C21,
+    0x1D78F, 0x28C41,
+    0x1D790, 0x28C61,
+    0x1D791, 0x28C81,
+    0x1D792, 0x28CA1,
+    0x1D793, 0x28CC1,
+    0x1D794, 0x28CE1,
+    0x1D795, 0x28D01,
+    0x1D796, 0x28D21,
+    0x1D797, 0x28D41,
+    0x1D798, 0x28D61,
+    0x1D799, 0x28D81,
+    0x1D79A, 0x28DA1,
+    0x1D79B, 0x28DC1,
+    0x1D79C, 0x28DE1,
+    0x1D79D, 0x28E01,
+    0x1D79E, 0x28E21,
+    0x1D79F, 0x28E41,
+    0x1D7A0, 0x28E61,
+    0x1D7A1, 0x28E81,
+    0x1D7A2, 0x28EA1,
+    0x1D7A3, 0x28EC1,
+    0x1D7A4, 0x28EE1,
+    0x1D7A5, 0x28F01,
+    0x1D7A6, 0x28F21,
+    0x1D7A7, 0x28F41,
+    0x1D7A8, 0x28F61,
+    0x1D7A9, 0x28F81,
+    0x1D7AA, 0x28FA1,
+    0x1D7AB, 0x28FC1,
+    0x1D7AC, 0x28FE1,
+    0x1D7AD, 0x29001,
+    0x1D7AE, 0x29021,
+    0x1D7AF, 0x29041,
+    0x1D7B0, 0x29061,
+    0x1D7B1, 0x29081,
+    0x1D7B2, 0x290A1,
+    0x1D7B3, 0x290C1,
+    0x1D7B4, 0x290E1,
+    0x1D7B5, 0x29101,
+    0x1D7B6, 0x29121,
+    0x1D7B7, 0x29141,
+    0x1D7B8, 0x29161,
+    0x1D7B9, 0x29181,
+    0x1D7BA, 0x291A1,
+    0x1D7BB, 0x291C1,
+    0x1D7BC, 0x291E1,
+    0x1D7BD, 0x29201,
+    0x1D7BE, 0x29221,
+    0x1D7BF, 0x29241,
+    0x1D7C0, 0x29261,
+    0x1D7C1, 0x29281,
+    0x1D7C2, 0x292A1,
+    0x1D7C3, 0x292C1,
+    0x1D7C4, 0x292E1,
+    0x1D7C5, 0x29301,
+    0x1D7C6, 0x29321,
+    0x1D7C7, 0x29341,
+    0x1D7C8, 0x29361,
+    0x1D7C9, 0x29381,
+    0x1D7CA, 0x293A1,
+    0x1D7CB, 0x293C1,
+    0x1D7CE, 0x293E1,
+    0x1D7CF, 0x29401,
+    0x1D7D0, 0x29421,
+    0x1D7D1, 0x29441,
+    0x1D7D2, 0x29461,
+    0x1D7D3, 0x29481,
+    0x1D7D4, 0x294A1,
+    0x1D7D5, 0x294C1,
+    0x1D7D6, 0x294E1,
+    0x1D7D7, 0x29501,
+    0x1D7D8, 0x29521,
+    0x1D7D9, 0x29541,
+    0x1D7DA, 0x29561,
+    0x1D7DB, 0x29581,
+    0x1D7DC, 0x295A1,
+    0x1D7DD, 0x295C1,
+    0x1D7DE, 0x295E1,
+    0x1D7DF, 0x29601,
+    0x1D7E0, 0x29621,
+    0x1D7E1, 0x29641,
+    0x1D7E2, 0x29661,
+    0x1D7E3, 0x29681,
+    0x1D7E4, 0x296A1,
+    0x1D7E5, 0x296C1,
+    0x1D7E6, 0x296E1,
+    0x1D7E7, 0x29701,
+    0x1D7E8, 0x29721,
+    0x1D7E9, 0x29741,
+    0x1D7EA, 0x29761,
+    0x1D7EB, 0x29781,
+    0x1D7EC, 0x297A1,
+    0x1D7ED, 0x297C1,
+    0x1D7EE, 0x297E1,
+    0x1D7EF, 0x29801,
+    0x1D7F0, 0x29821,
+    0x1D7F1, 0x29841,
+    0x1D7F2, 0x29861,
+    0x1D7F3, 0x29881,
+    0x1D7F4, 0x298A1,
+    0x1D7F5, 0x298C1,
+    0x1D7F6, 0x298E1,
+    0x1D7F7, 0x29901,
+    0x1D7F8, 0x29921,
+    0x1D7F9, 0x29941,
+    0x1D7FA, 0x29961,
+    0x1D7FB, 0x29981,
+    0x1D7FC, 0x299A1,
+    0x1D7FD, 0x299C1,
+    0x1D7FE, 0x299E1,
+    0x1D7FF, 0x29A01,
+    0x1E030, 0x29A21,
+    0x1E031, 0x29A41,
+    0x1E032, 0x29A61,
+    0x1E033, 0x29A81,
+    0x1E034, 0x29AA1,
+    0x1E035, 0x29AC1,
+    0x1E036, 0x29AE1,
+    0x1E037, 0x29B01,
+    0x1E038, 0x29B21,
+    0x1E039, 0x29B41,
+    0x1E03A, 0x29B61,
+    0x1E03B, 0x29B81,
+    0x1E03C, 0x29BA1,
+    0x1E03D, 0x29BC1,
+    0x1E03E, 0x29BE1,
+    0x1E03F, 0x29C01,
+    0x1E040, 0x29C21,
+    0x1E041, 0x29C41,
+    0x1E042, 0x29C61,
+    0x1E043, 0x29C81,
+    0x1E044, 0x29CA1,
+    0x1E045, 0x29CC1,
+    0x1E046, 0x29CE1,
+    0x1E047, 0x29D01,
+    0x1E048, 0x29D21,
+    0x1E049, 0x29D41,
+    0x1E04A, 0x29D61,
+    0x1E04B, 0x29D81,
+    0x1E04C, 0x29DA1,
+    0x1E04D, 0x29DC1,
+    0x1E04E, 0x29DE1,
+    0x1E04F, 0x29E01,
+    0x1E050, 0x29E21,
+    0x1E051, 0x29E41,
+    0x1E052, 0x29E61,
+    0x1E053, 0x29E81,
+    0x1E054, 0x29EA1,
+    0x1E055, 0x29EC1,
+    0x1E056, 0x29EE1,
+    0x1E057, 0x29F01,
+    0x1E058, 0x29F21,
+    0x1E059, 0x29F41,
+    0x1E05A, 0x29F61,
+    0x1E05B, 0x29F81,
+    0x1E05C, 0x29FA1,
+    0x1E05D, 0x29FC1,
+    0x1E05E, 0x29FE1,
+    0x1E05F, 0x2A001,
+    0x1E060, 0x2A021,
+    0x1E061, 0x2A041,
+    0x1E062, 0x2A061,
+    0x1E063, 0x2A081,
+    0x1E064, 0x2A0A1,
+    0x1E065, 0x2A0C1,
+    0x1E066, 0x2A0E1,
+    0x1E067, 0x2A101,
+    0x1E068, 0x2A121,
+    0x1E069, 0x2A141,
+    0x1E06A, 0x2A161,
+    0x1E06B, 0x2A181,
+    0x1E06C, 0x2A1A1,
+    0x1E06D, 0x2A1C1,
+    0x1EE00, 0x2A1E1,
+    0x1EE01, 0x2A201,
+    0x1EE02, 0x2A221,
+    0x1EE03, 0x2A241,
+    0x1EE05, 0x2A261,
+    0x1EE06, 0x2A281,
+    0x1EE07, 0x2A2A1,
+    0x1EE08, 0x2A2C1,
+    0x1EE09, 0x2A2E1,
+    0x1EE0A, 0x2A301,
+    0x1EE0B, 0x2A321,
+    0x1EE0C, 0x2A341,
+    0x1EE0D, 0x2A361,
+    0x1EE0E, 0x2A381,
+    0x1EE0F, 0x2A3A1,
+    0x1EE10, 0x2A3C1,
+    0x1EE11, 0x2A3E1,
+    0x1EE12, 0x2A401,
+    0x1EE13, 0x2A421,
+    0x1EE14, 0x2A441,
+    0x1EE15, 0x2A461,
+    0x1EE16, 0x2A481,
+    0x1EE17, 0x2A4A1,
+    0x1EE18, 0x2A4C1,
+    0x1EE19, 0x2A4E1,
+    0x1EE1A, 0x2A501,
+    0x1EE1B, 0x2A521,
+    0x1EE1C, 0x2A541,
+    0x1EE1D, 0x2A561,
+    0x1EE1E, 0x2A581,
+    0x1EE1F, 0x2A5A1,
+    0x1EE21, 0x2A5C1,
+    0x1EE22, 0x2A5E1,
+    0x1EE24, 0x2A601,
+    0x1EE27, 0x2A621,
+    0x1EE29, 0x2A641,
+    0x1EE2A, 0x2A661,
+    0x1EE2B, 0x2A681,
+    0x1EE2C, 0x2A6A1,
+    0x1EE2D, 0x2A6C1,
+    0x1EE2E, 0x2A6E1,
+    0x1EE2F, 0x2A701,
+    0x1EE30, 0x2A721,
+    0x1EE31, 0x2A741,
+    0x1EE32, 0x2A761,
+    0x1EE34, 0x2A781,
+    0x1EE35, 0x2A7A1,
+    0x1EE36, 0x2A7C1,
+    0x1EE37, 0x2A7E1,
+    0x1EE39, 0x2A801,
+    0x1EE3B, 0x2A821,
+    0x1EE42, 0x2A841,
+    0x1EE47, 0x2A861,
+    0x1EE49, 0x2A881,
+    0x1EE4B, 0x2A8A1,
+    0x1EE4D, 0x2A8C1,
+    0x1EE4E, 0x2A8E1,
+    0x1EE4F, 0x2A901,
+    0x1EE51, 0x2A921,
+    0x1EE52, 0x2A941,
+    0x1EE54, 0x2A961,
+    0x1EE57, 0x2A981,
+    0x1EE59, 0x2A9A1,
+    0x1EE5B, 0x2A9C1,
+    0x1EE5D, 0x2A9E1,
+    0x1EE5F, 0x2AA01,
+    0x1EE61, 0x2AA21,
+    0x1EE62, 0x2AA41,
+    0x1EE64, 0x2AA61,
+    0x1EE67, 0x2AA81,
+    0x1EE68, 0x2AAA1,
+    0x1EE69, 0x2AAC1,
+    0x1EE6A, 0x2AAE1,
+    0x1EE6C, 0x2AB01,
+    0x1EE6D, 0x2AB21,
+    0x1EE6E, 0x2AB41,
+    0x1EE6F, 0x2AB61,
+    0x1EE70, 0x2AB81,
+    0x1EE71, 0x2ABA1,
+    0x1EE72, 0x2ABC1,
+    0x1EE74, 0x2ABE1,
+    0x1EE75, 0x2AC01,
+    0x1EE76, 0x2AC21,
+    0x1EE77, 0x2AC41,
+    0x1EE79, 0x2AC61,
+    0x1EE7A, 0x2AC81,
+    0x1EE7B, 0x2ACA1,
+    0x1EE7C, 0x2ACC1,
+    0x1EE7E, 0x2ACE1,
+    0x1EE80, 0x2AD01,
+    0x1EE81, 0x2AD21,
+    0x1EE82, 0x2AD41,
+    0x1EE83, 0x2AD61,
+    0x1EE84, 0x2AD81,
+    0x1EE85, 0x2ADA1,
+    0x1EE86, 0x2ADC1,
+    0x1EE87, 0x2ADE1,
+    0x1EE88, 0x2AE01,
+    0x1EE89, 0x2AE21,
+    0x1EE8B, 0x2AE41,
+    0x1EE8C, 0x2AE61,
+    0x1EE8D, 0x2AE81,
+    0x1EE8E, 0x2AEA1,
+    0x1EE8F, 0x2AEC1,
+    0x1EE90, 0x2AEE1,
+    0x1EE91, 0x2AF01,
+    0x1EE92, 0x2AF21,
+    0x1EE93, 0x2AF41,
+    0x1EE94, 0x2AF61,
+    0x1EE95, 0x2AF81,
+    0x1EE96, 0x2AFA1,
+    0x1EE97, 0x2AFC1,
+    0x1EE98, 0x2AFE1,
+    0x1EE99, 0x2B001,
+    0x1EE9A, 0x2B021,
+    0x1EE9B, 0x2B041,
+    0x1EEA1, 0x2B061,
+    0x1EEA2, 0x2B081,
+    0x1EEA3, 0x2B0A1,
+    0x1EEA5, 0x2B0C1,
+    0x1EEA6, 0x2B0E1,
+    0x1EEA7, 0x2B101,
+    0x1EEA8, 0x2B121,
+    0x1EEA9, 0x2B141,
+    0x1EEAB, 0x2B161,
+    0x1EEAC, 0x2B181,
+    0x1EEAD, 0x2B1A1,
+    0x1EEAE, 0x2B1C1,
+    0x1EEAF, 0x2B1E1,
+    0x1EEB0, 0x2B201,
+    0x1EEB1, 0x2B221,
+    0x1EEB2, 0x2B241,
+    0x1EEB3, 0x2B261,
+    0x1EEB4, 0x2B281,
+    0x1EEB5, 0x2B2A1,
+    0x1EEB6, 0x2B2C1,
+    0x1EEB7, 0x2B2E1,
+    0x1EEB8, 0x2B301,
+    0x1EEB9, 0x2B321,
+    0x1EEBA, 0x2B341,
+    0x1EEBB, 0x2B361,
+    0x1F100, 0x2B382,
+    0x1F101, 0x2B3C2,
+    0x1F102, 0x2B402,
+    0x1F103, 0x2B442,
+    0x1F104, 0x2B482,
+    0x1F105, 0x2B4C2,
+    0x1F106, 0x2B502,
+    0x1F107, 0x2B542,
+    0x1F108, 0x2B582,
+    0x1F109, 0x2B5C2,
+    0x1F10A, 0x2B602,
+    0x1F110, 0x2B643,
+    0x1F111, 0x2B6A3,
+    0x1F112, 0x2B703,
+    0x1F113, 0x2B763,
+    0x1F114, 0x2B7C3,
+    0x1F115, 0x2B823,
+    0x1F116, 0x2B883,
+    0x1F117, 0x2B8E3,
+    0x1F118, 0x2B943,
+    0x1F119, 0x2B9A3,
+    0x1F11A, 0x2BA03,
+    0x1F11B, 0x2BA63,
+    0x1F11C, 0x2BAC3,
+    0x1F11D, 0x2BB23,
+    0x1F11E, 0x2BB83,
+    0x1F11F, 0x2BBE3,
+    0x1F120, 0x2BC43,
+    0x1F121, 0x2BCA3,
+    0x1F122, 0x2BD03,
+    0x1F123, 0x2BD63,
+    0x1F124, 0x2BDC3,
+    0x1F125, 0x2BE23,
+    0x1F126, 0x2BE83,
+    0x1F127, 0x2BEE3,
+    0x1F128, 0x2BF43,
+    0x1F129, 0x2BFA3,
+    0x1F12A, 0x2C003,
+    0x1F12B, 0x2C061,
+    0x1F12C, 0x2C081,
+    0x1F12D, 0x2C0A2,
+    0x1F12E, 0x2C0E2,
+    0x1F130, 0x2C121,
+    0x1F131, 0x2C141,
+    0x1F132, 0x2C161,
+    0x1F133, 0x2C181,
+    0x1F134, 0x2C1A1,
+    0x1F135, 0x2C1C1,
+    0x1F136, 0x2C1E1,
+    0x1F137, 0x2C201,
+    0x1F138, 0x2C221,
+    0x1F139, 0x2C241,
+    0x1F13A, 0x2C261,
+    0x1F13B, 0x2C281,
+    0x1F13C, 0x2C2A1,
+    0x1F13D, 0x2C2C1,
+    0x1F13E, 0x2C2E1,
+    0x1F13F, 0x2C301,
+    0x1F140, 0x2C321,
+    0x1F141, 0x2C341,
+    0x1F142, 0x2C361,
+    0x1F143, 0x2C381,
+    0x1F144, 0x2C3A1,
+    0x1F145, 0x2C3C1,
+    0x1F146, 0x2C3E1,
+    0x1F147, 0x2C401,
+    0x1F148, 0x2C421,
+    0x1F149, 0x2C441,
+    0x1F14A, 0x2C462,
+    0x1F14B, 0x2C4A2,
+    0x1F14C, 0x2C4E2,
+    0x1F14D, 0x2C522,
+    0x1F14E, 0x2C563,
+    0x1F14F, 0x2C5C2,
+    0x1F16A, 0x2C602,
+    0x1F16B, 0x2C642,
+    0x1F16C, 0x2C682,
+    0x1F190, 0x2C6C2,
+    0x1F200, 0x2C702,
+    0x1F201, 0x2C742,
+    0x1F202, 0x2C781,
+    0x1F210, 0x2C7A1,
+    0x1F211, 0x2C7C1,
+    0x1F212, 0x2C7E1,
+    0x1F213, 0x2C802,
+    0x1F214, 0x2C841,
+    0x1F215, 0x2C861,
+    0x1F216, 0x2C881,
+    0x1F217, 0x2C8A1,
+    0x1F218, 0x2C8C1,
+    0x1F219, 0x2C8E1,
+    0x1F21A, 0x2C901,
+    0x1F21B, 0x2C921,
+    0x1F21C, 0x2C941,
+    0x1F21D, 0x2C961,
+    0x1F21E, 0x2C981,
+    0x1F21F, 0x2C9A1,
+    0x1F220, 0x2C9C1,
+    0x1F221, 0x2C9E1,
+    0x1F222, 0x2CA01,
+    0x1F223, 0x2CA21,
+    0x1F224, 0x2CA41,
+    0x1F225, 0x2CA61,
+    0x1F226, 0x2CA81,
+    0x1F227, 0x2CAA1,
+    0x1F228, 0x2CAC1,
+    0x1F229, 0x2CAE1,
+    0x1F22A, 0x2CB01,
+    0x1F22B, 0x2CB21,
+    0x1F22C, 0x2CB41,
+    0x1F22D, 0x2CB61,
+    0x1F22E, 0x2CB81,
+    0x1F22F, 0x2CBA1,
+    0x1F230, 0x2CBC1,
+    0x1F231, 0x2CBE1,
+    0x1F232, 0x2CC01,
+    0x1F233, 0x2CC21,
+    0x1F234, 0x2CC41,
+    0x1F235, 0x2CC61,
+    0x1F236, 0x2CC81,
+    0x1F237, 0x2CCA1,
+    0x1F238, 0x2CCC1,
+    0x1F239, 0x2CCE1,
+    0x1F23A, 0x2CD01,
+    0x1F23B, 0x2CD21,
+    0x1F240, 0x2CD43,
+    0x1F241, 0x2CDA3,
+    0x1F242, 0x2CE03,
+    0x1F243, 0x2CE63,
+    0x1F244, 0x2CEC3,
+    0x1F245, 0x2CF23,
+    0x1F246, 0x2CF83,
+    0x1F247, 0x2CFE3,
+    0x1F248, 0x2D043,
+    0x1F250, 0x2D0A1,
+    0x1F251, 0x2D0C1,
+    0x1FBF0, 0x2D0E1,
+    0x1FBF1, 0x2D101,
+    0x1FBF2, 0x2D121,
+    0x1FBF3, 0x2D141,
+    0x1FBF4, 0x2D161,
+    0x1FBF5, 0x2D181,
+    0x1FBF6, 0x2D1A1,
+    0x1FBF7, 0x2D1C1,
+    0x1FBF8, 0x2D1E1,
+    0x1FBF9, 0x2D201
+  ];
+  return table; // inlines to a constant memory offset
+}
+
+/** Code units of the full compatibility decompositions. */
+@inline
+export function COMPATIBILITY_DATA(): u16[] {
+  const table: u16[] = [
+    0x20, 0x20, 0x308, 0x61, 0x20, 0x304, 0x32, 0x33, 0x20, 0x301, 0x3BC, 0x20, 0x327, 0x31, 0x6F, 0x31,
+    0x2044, 0x34, 0x31, 0x2044, 0x32, 0x33, 0x2044, 0x34, 0x49, 0x4A, 0x69, 0x6A, 0x4C, 0xB7, 0x6C, 0xB7,
+    0x2BC, 0x6E, 0x73, 0x44, 0x5A, 0x30C, 0x44, 0x7A, 0x30C, 0x64, 0x7A, 0x30C, 0x4C, 0x4A, 0x4C, 0x6A,
+    0x6C, 0x6A, 0x4E, 0x4A, 0x4E, 0x6A, 0x6E, 0x6A, 0x44, 0x5A, 0x44, 0x7A, 0x64, 0x7A, 0x68, 0x266,
+    0x6A, 0x72, 0x279, 0x27B, 0x281, 0x77, 0x79, 0x20, 0x306, 0x20, 0x307, 0x20, 0x30A, 0x20, 0x328, 0x20,
+    0x303, 0x20, 0x30B, 0x263, 0x6C, 0x73, 0x78, 0x295, 0x20, 0x345, 0x20, 0x301, 0x20, 0x308, 0x301, 0x3B2,
+    0x3B8, 0x3A5, 0x3A5, 0x301, 0x3A5, 0x308, 0x3C6, 0x3C0, 0x3BA, 0x3C1, 0x3C2, 0x398, 0x3B5, 0x3A3, 0x565, 0x582,
+    0x627, 0x674, 0x648, 0x674, 0x6C7, 0x674, 0x64A, 0x674, 0xE4D, 0xE32, 0xECD, 0xEB2, 0xEAB, 0xE99, 0xEAB, 0xEA1,
+    0xF0B, 0xFB2, 0xF71, 0xF80, 0xFB3, 0xF71, 0xF80, 0x10DC, 0x41, 0xC6, 0x42, 0x44, 0x45, 0x18E, 0x47, 0x48,
+    0x49, 0x4A, 0x4B, 0x4C, 0x4D, 0x4E, 0x4F, 0x222, 0x50, 0x52, 0x54, 0x55, 0x57, 0x61, 0x250, 0x251,
+    0x1D02, 0x62, 0x64, 0x65, 0x259, 0x25B, 0x25C, 0x67, 0x6B, 0x6D, 0x14B, 0x6F, 0x254, 0x1D16, 0x1D17, 0x70,
+    0x74, 0x75, 0x1D1D, 0x26F, 0x76, 0x1D25, 0x3B2, 0x3B3, 0x3B4, 0x3C6, 0x3C7, 0x69, 0x72, 0x75, 0x76, 0x3B2,
+    0x3B3, 0x3C1, 0x3C6, 0x3C7, 0x43D, 0x252, 0x63, 0x255, 0xF0, 0x25C, 0x66, 0x25F, 0x261, 0x265, 0x268, 0x269,
+    0x26A, 0x1D7B, 0x29D, 0x26D, 0x1D85, 0x29F, 0x271, 0x270, 0x272, 0x273, 0x274, 0x275, 0x278, 0x282, 0x283, 0x1AB,
+    0x289, 0x28A, 0x1D1C, 0x28B, 0x28C, 0x7A, 0x290, 0x291, 0x292, 0x3B8, 0x61, 0x2BE, 0x73, 0x307, 0x20, 0x313,
+    0x20, 0x313, 0x20, 0x342, 0x20, 0x308, 0x342, 0x20, 0x313, 0x300, 0x20, 0x313, 0x301, 0x20, 0x313, 0x342,
+    0x20, 0x314, 0x300, 0x20, 0x314, 0x301, 0x20, 0x314, 0x342, 0x20, 0x308, 0x300, 0x20, 0x308, 0x301, 0x20,
+    0x301, 0x20, 0x314, 0x20, 0x20, 0x20, 0x20, 0x20, 0x20, 0x20, 0x20, 0x20, 0x20, 0x20, 0x2010, 0x20,
+    0x333, 0x2E, 0x2E, 0x2E, 0x2E, 0x2E, 0x2E, 0x20, 0x2032, 0x2032, 0x2032, 0x2032, 0x2032, 0x2035, 0x2035, 0x2035,
+    0x2035, 0x2035, 0x21, 0x21, 0x20, 0x305, 0x3F, 0x3F, 0x3F, 0x21, 0x21, 0x3F, 0x2032, 0x2032, 0x2032, 0x2032,
+    0x20, 0x30, 0x69, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x2B, 0x2212, 0x3D, 0x28, 0x29, 0x6E, 0x30,
+    0x31, 0x32, 0x33, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x2B, 0x2212, 0x3D, 0x28, 0x29, 0x61, 0x65,
+    0x6F, 0x78, 0x259, 0x68, 0x6B, 0x6C, 0x6D, 0x6E, 0x70, 0x73, 0x74, 0x52, 0x73, 0x61, 0x2F, 0x63,
+    0x61, 0x2F, 0x73, 0x43, 0xB0, 0x43, 0x63, 0x2F, 0x6F, 0x63, 0x2F, 0x75, 0x190, 0xB0, 0x46, 0x67,
+    0x48, 0x48, 0x48, 0x68, 0x127, 0x49, 0x49, 0x4C, 0x6C, 0x4E, 0x4E, 0x6F, 0x50, 0x51, 0x52, 0x52,
+    0x52, 0x53, 0x4D, 0x54, 0x45, 0x4C, 0x54, 0x4D, 0x5A, 0x5A, 0x42, 0x43, 0x65, 0x45, 0x46, 0x4D,
+    0x6F, 0x5D0, 0x5D1, 0x5D2, 0x5D3, 0x69, 0x46, 0x41, 0x58, 0x3C0, 0x3B3, 0x393, 0x3A0, 0x2211, 0x44, 0x64,
+    0x65, 0x69, 0x6A, 0x31, 0x2044, 0x37, 0x31, 0x2044, 0x39, 0x31, 0x2044, 0x31, 0x30, 0x31, 0x2044, 0x33,
+    0x32, 0x2044, 0x33, 0x31, 0x2044, 0x35, 0x32, 0x2044, 0x35, 0x33, 0x2044, 0x35, 0x34, 0x2044, 0x35, 0x31,
+    0x2044, 0x36, 0x35, 0x2044, 0x36, 0x31, 0x2044, 0x38, 0x33, 0x2044, 0x38, 0x35, 0x2044, 0x38, 0x37, 0x2044,
+    0x38, 0x31, 0x2044, 0x49, 0x49, 0x49, 0x49, 0x49, 0x49, 0x49, 0x56, 0x56, 0x56, 0x49, 0x56, 0x49,
+    0x49, 0x56, 0x49, 0x49, 0x49, 0x49, 0x58, 0x58, 0x58, 0x49, 0x58, 0x49, 0x49, 0x4C, 0x43, 0x44,
+    0x4D, 0x69, 0x69, 0x69, 0x69, 0x69, 0x69, 0x69, 0x76, 0x76, 0x76, 0x69, 0x76, 0x69, 0x69, 0x76,
+    0x69, 0x69, 0x69, 0x69, 0x78, 0x78, 0x78, 0x69, 0x78, 0x69, 0x69, 0x6C, 0x63, 0x64, 0x6D, 0x30,
+    0x2044, 0x33, 0x222B, 0x222B, 0x222B, 0x222B, 0x222B, 0x222E, 0x222E, 0x222E, 0x222E, 0x222E, 0x31, 0x32, 0x33, 0x34,
+    0x35, 0x36, 0x37, 0x38, 0x39, 0x31, 0x30, 0x31, 0x31, 0x31, 0x32, 0x31, 0x33, 0x31, 0x34, 0x31,
+    0x35, 0x31, 0x36, 0x31, 0x37, 0x31, 0x38, 0x31, 0x39, 0x32, 0x30, 0x28, 0x31, 0x29, 0x28, 0x32,
+    0x29, 0x28, 0x33, 0x29, 0x28, 0x34, 0x29, 0x28, 0x35, 0x29, 0x28, 0x36, 0x29, 0x28, 0x37, 0x29,
+    0x28, 0x38, 0x29, 0x28, 0x39, 0x29, 0x28, 0x31, 0x30, 0x29, 0x28, 0x31, 0x31, 0x29, 0x28, 0x31,
+    0x32, 0x29, 0x28, 0x31, 0x33, 0x29, 0x28, 0x31, 0x34, 0x29, 0x28, 0x31, 0x35, 0x29, 0x28, 0x31,
+    0x36, 0x29, 0x28, 0x31, 0x37, 0x29, 0x28, 0x31, 0x38, 0x29, 0x28, 0x31, 0x39, 0x29, 0x28, 0x32,
+    0x30, 0x29, 0x31, 0x2E, 0x32, 0x2E, 0x33, 0x2E, 0x34, 0x2E, 0x35, 0x2E, 0x36, 0x2E, 0x37, 0x2E,
+    0x38, 0x2E, 0x39, 0x2E, 0x31, 0x30, 0x2E, 0x31, 0x31, 0x2E, 0x31, 0x32, 0x2E, 0x31, 0x33, 0x2E,
+    0x31, 0x34, 0x2E, 0x31, 0x35, 0x2E, 0x31, 0x36, 0x2E, 0x31, 0x37, 0x2E, 0x31, 0x38, 0x2E, 0x31,
+    0x39, 0x2E, 0x32, 0x30, 0x2E, 0x28, 0x61, 0x29, 0x28, 0x62, 0x29, 0x28, 0x63, 0x29, 0x28, 0x64,
+    0x29, 0x28, 0x65, 0x29, 0x28, 0x66, 0x29, 0x28, 0x67, 0x29, 0x28, 0x68, 0x29, 0x28, 0x69, 0x29,
+    0x28, 0x6A, 0x29, 0x28, 0x6B, 0x29, 0x28, 0x6C, 0x29, 0x28, 0x6D, 0x29, 0x28, 0x6E, 0x29, 0x28,
+    0x6F, 0x29, 0x28, 0x70, 0x29, 0x28, 0x71, 0x29, 0x28, 0x72, 0x29, 0x28, 0x73, 0x29, 0x28, 0x74,
+    0x29, 0x28, 0x75, 0x29, 0x28, 0x76, 0x29, 0x28, 0x77, 0x29, 0x28, 0x78, 0x29, 0x28, 0x79, 0x29,
+    0x28, 0x7A, 0x29, 0x41, 0x42, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4A, 0x4B, 0x4C, 0x4D,
+    0x4E, 0x4F, 0x50, 0x51, 0x52, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5A, 0x61, 0x62, 0x63,
+    0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6A, 0x6B, 0x6C, 0x6D, 0x6E, 0x6F, 0x70, 0x71, 0x72, 0x73,
+    0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7A, 0x30, 0x222B, 0x222B, 0x222B, 0x222B, 0x3A, 0x3A, 0x3D, 0x3D,
+    0x3D, 0x3D, 0x3D, 0x3D, 0x6A, 0x56, 0x2D61, 0x6BCD, 0x9F9F, 0x4E00, 0x4E28, 0x4E36, 0x4E3F, 0x4E59, 0x4E85, 0x4E8C,
+    0x4EA0, 0x4EBA, 0x513F, 0x5165, 0x516B, 0x5182, 0x5196, 0x51AB, 0x51E0, 0x51F5, 0x5200, 0x529B, 0x52F9, 0x5315, 0x531A, 0x5338,
+    0x5341, 0x535C, 0x5369, 0x5382, 0x53B6, 0x53C8, 0x53E3, 0x56D7, 0x571F, 0x58EB, 0x5902, 0x590A, 0x5915, 0x5927, 0x5973, 0x5B50,
+    0x5B80, 0x5BF8, 0x5C0F, 0x5C22, 0x5C38, 0x5C6E, 0x5C71, 0x5DDB, 0x5DE5, 0x5DF1, 0x5DFE, 0x5E72, 0x5E7A, 0x5E7F, 0x5EF4, 0x5EFE,
+    0x5F0B, 0x5F13, 0x5F50, 0x5F61, 0x5F73, 0x5FC3, 0x6208, 0x6236, 0x624B, 0x652F, 0x6534, 0x6587, 0x6597, 0x65A4, 0x65B9, 0x65E0,
+    0x65E5, 0x66F0, 0x6708, 0x6728, 0x6B20, 0x6B62, 0x6B79, 0x6BB3, 0x6BCB, 0x6BD4, 0x6BDB, 0x6C0F, 0x6C14, 0x6C34, 0x706B, 0x722A,
+    0x7236, 0x723B, 0x723F, 0x7247, 0x7259, 0x725B, 0x72AC, 0x7384, 0x7389, 0x74DC, 0x74E6, 0x7518, 0x751F, 0x7528, 0x7530, 0x758B,
+    0x7592, 0x7676, 0x767D, 0x76AE, 0x76BF, 0x76EE, 0x77DB, 0x77E2, 0x77F3, 0x793A, 0x79B8, 0x79BE, 0x7A74, 0x7ACB, 0x7AF9, 0x7C73,
+    0x7CF8, 0x7F36, 0x7F51, 0x7F8A, 0x7FBD, 0x8001, 0x800C, 0x8012, 0x8033, 0x807F, 0x8089, 0x81E3, 0x81EA, 0x81F3, 0x81FC, 0x820C,
+    0x821B, 0x821F, 0x826E, 0x8272, 0x8278, 0x864D, 0x866B, 0x8840, 0x884C, 0x8863, 0x897E, 0x898B, 0x89D2, 0x8A00, 0x8C37, 0x8C46,
+    0x8C55, 0x8C78, 0x8C9D, 0x8D64, 0x8D70, 0x8DB3, 0x8EAB, 0x8ECA, 0x8F9B, 0x8FB0, 0x8FB5, 0x9091, 0x9149, 0x91C6, 0x91CC, 0x91D1,
+    0x9577, 0x9580, 0x961C, 0x96B6, 0x96B9, 0x96E8, 0x9751, 0x975E, 0x9762, 0x9769, 0x97CB, 0x97ED, 0x97F3, 0x9801, 0x98A8, 0x98DB,
+    0x98DF, 0x9996, 0x9999, 0x99AC, 0x9AA8, 0x9AD8, 0x9ADF, 0x9B25, 0x9B2F, 0x9B32, 0x9B3C, 0x9B5A, 0x9CE5, 0x9E75, 0x9E7F, 0x9EA5,
+    0x9EBB, 0x9EC3, 0x9ECD, 0x9ED1, 0x9EF9, 0x9EFD, 0x9F0E, 0x9F13, 0x9F20, 0x9F3B, 0x9F4A, 0x9F52, 0x9F8D, 0x9F9C, 0x9FA0, 0x20,
+    0x3012, 0x5341, 0x5344, 0x5345, 0x20, 0x3099, 0x20, 0x309A, 0x3088, 0x308A, 0x30B3, 0x30C8, 0x1100, 0x1101, 0x11AA, 0x1102,
+    0x11AC, 0x11AD, 0x1103, 0x1104, 0x1105, 0x11B0, 0x11B1, 0x11B2, 0x11B3, 0x11B4, 0x11B5, 0x111A, 0x1106, 0x1107, 0x1108, 0x1121,
+    0x1109, 0x110A, 0x110B, 0x110C, 0x110D, 0x110E, 0x110F, 0x1110, 0x1111, 0x1112, 0x1161, 0x1162, 0x1163, 0x1164, 0x1165, 0x1166,
+    0x1167, 0x1168, 0x1169, 0x116A, 0x116B, 0x116C, 0x116D, 0x116E, 0x116F, 0x1170, 0x1171, 0x1172, 0x1173, 0x1174, 0x1175, 0x1160,
+    0x1114, 0x1115, 0x11C7, 0x11C8, 0x11CC, 0x11CE, 0x11D3, 0x11D7, 0x11D9, 0x111C, 0x11DD, 0x11DF, 0x111D, 0x111E, 0x1120, 0x1122,
+    0x1123, 0x1127, 0x1129, 0x112B, 0x112C, 0x112D, 0x112E, 0x112F, 0x1132, 0x1136, 0x1140, 0x1147, 0x114C, 0x11F1, 0x11F2, 0x1157,
+    0x1158, 0x1159, 0x1184, 0x1185, 0x1188, 0x1191, 0x1192, 0x1194, 0x119E, 0x11A1, 0x4E00, 0x4E8C, 0x4E09, 0x56DB, 0x4E0A, 0x4E2D,
+    0x4E0B, 0x7532, 0x4E59, 0x4E19, 0x4E01, 0x5929, 0x5730, 0x4EBA, 0x28, 0x1100, 0x29, 0x28, 0x1102, 0x29, 0x28, 0x1103,
+    0x29, 0x28, 0x1105, 0x29, 0x28, 0x1106, 0x29, 0x28, 0x1107, 0x29, 0x28, 0x1109, 0x29, 0x28, 0x110B, 0x29,
+    0x28, 0x110C, 0x29, 0x28, 0x110E, 0x29, 0x28, 0x110F, 0x29, 0x28, 0x1110, 0x29, 0x28, 0x1111, 0x29, 0x28,
+    0x1112, 0x29, 0x28, 0x1100, 0x1161, 0x29, 0x28, 0x1102, 0x1161, 0x29, 0x28, 0x1103, 0x1161, 0x29, 0x28, 0x1105,
+    0x1161, 0x29, 0x28, 0x1106, 0x1161, 0x29, 0x28, 0x1107, 0x1161, 0x29, 0x28, 0x1109, 0x1161, 0x29, 0x28, 0x110B,
+    0x1161, 0x29, 0x28, 0x110C, 0x1161, 0x29, 0x28, 0x110E, 0x1161, 0x29, 0x28, 0x110F, 0x1161, 0x29, 0x28, 0x1110,
+    0x1161, 0x29, 0x28, 0x1111, 0x1161, 0x29, 0x28, 0x1112, 0x1161, 0x29, 0x28, 0x110C, 0x116E, 0x29, 0x28, 0x110B,
+    0x1169, 0x110C, 0x1165, 0x11AB, 0x29, 0x28, 0x110B, 0x1169, 0x1112, 0x116E, 0x29, 0x28, 0x4E00, 0x29, 0x28, 0x4E8C,
+    0x29, 0x28, 0x4E09, 0x29, 0x28, 0x56DB, 0x29, 0x28, 0x4E94, 0x29, 0x28, 0x516D, 0x29, 0x28, 0x4E03, 0x29,
+    0x28, 0x516B, 0x29, 0x28, 0x4E5D, 0x29, 0x28, 0x5341, 0x29, 0x28, 0x6708, 0x29, 0x28, 0x706B, 0x29, 0x28,
+    0x6C34, 0x29, 0x28, 0x6728, 0x29, 0x28, 0x91D1, 0x29, 0x28, 0x571F, 0x29, 0x28, 0x65E5, 0x29, 0x28, 0x682A,
+    0x29, 0x28, 0x6709, 0x29, 0x28, 0x793E, 0x29, 0x28, 0x540D, 0x29, 0x28, 0x7279, 0x29, 0x28, 0x8CA1, 0x29,
+    0x28, 0x795D, 0x29, 0x28, 0x52B4, 0x29, 0x28, 0x4EE3, 0x29, 0x28, 0x547C, 0x29, 0x28, 0x5B66, 0x29, 0x28,
+    0x76E3, 0x29, 0x28, 0x4F01, 0x29, 0x28, 0x8CC7, 0x29, 0x28, 0x5354, 0x29, 0x28, 0x796D, 0x29, 0x28, 0x4F11,
+    0x29, 0x28, 0x81EA, 0x29, 0x28, 0x81F3, 0x29, 0x554F, 0x5E7C, 0x6587, 0x7B8F, 0x50, 0x54, 0x45, 0x32, 0x31,
+    0x32, 0x32, 0x32, 0x33, 0x32, 0x34, 0x32, 0x35, 0x32, 0x36, 0x32, 0x37, 0x32, 0x38, 0x32, 0x39,
+    0x33, 0x30, 0x33, 0x31, 0x33, 0x32, 0x33, 0x33, 0x33, 0x34, 0x33, 0x35, 0x1100, 0x1102, 0x1103, 0x1105,
+    0x1106, 0x1107, 0x1109, 0x110B, 0x110C, 0x110E, 0x110F, 0x1110, 0x1111, 0x1112, 0x1100, 0x1161, 0x1102, 0x1161, 0x1103, 0x1161,
+    0x1105, 0x1161, 0x1106, 0x1161, 0x1107, 0x1161, 0x1109, 0x1161, 0x110B, 0x1161, 0x110C, 0x1161, 0x110E, 0x1161, 0x110F, 0x1161,
+    0x1110, 0x1161, 0x1111, 0x1161, 0x1112, 0x1161, 0x110E, 0x1161, 0x11B7, 0x1100, 0x1169, 0x110C, 0x116E, 0x110B, 0x1174, 0x110B,
+    0x116E, 0x4E00, 0x4E8C, 0x4E09, 0x56DB, 0x4E94, 0x516D, 0x4E03, 0x516B, 0x4E5D, 0x5341, 0x6708, 0x706B, 0x6C34, 0x6728, 0x91D1,
+    0x571F, 0x65E5, 0x682A, 0x6709, 0x793E, 0x540D, 0x7279, 0x8CA1, 0x795D, 0x52B4, 0x79D8, 0x7537, 0x5973, 0x9069, 0x512A, 0x5370,
+    0x6CE8, 0x9805, 0x4F11, 0x5199, 0x6B63, 0x4E0A, 0x4E2D, 0x4E0B, 0x5DE6, 0x53F3, 0x533B, 0x5B97, 0x5B66, 0x76E3, 0x4F01, 0x8CC7,
+    0x5354, 0x591C, 0x33, 0x36, 0x33, 0x37, 0x33, 0x38, 0x33, 0x39, 0x34, 0x30, 0x34, 0x31, 0x34, 0x32,
+    0x34, 0x33, 0x34, 0x34, 0x34, 0x35, 0x34, 0x36, 0x34, 0x37, 0x34, 0x38, 0x34, 0x39, 0x35, 0x30,
+    0x31, 0x6708, 0x32, 0x6708, 0x33, 0x6708, 0x34, 0x6708, 0x35, 0x6708, 0x36, 0x6708, 0x37, 0x6708, 0x38, 0x6708,
+    0x39, 0x6708, 0x31, 0x30, 0x6708, 0x31, 0x31, 0x6708, 0x31, 0x32, 0x6708, 0x48, 0x67, 0x65, 0x72, 0x67,
+    0x65, 0x56, 0x4C, 0x54, 0x44, 0x30A2, 0x30A4, 0x30A6, 0x30A8, 0x30AA, 0x30AB, 0x30AD, 0x30AF, 0x30B1, 0x30B3, 0x30B5,
+    0x30B7, 0x30B9, 0x30BB, 0x30BD, 0x30BF, 0x30C1, 0x30C4, 0x30C6, 0x30C8, 0x30CA, 0x30CB, 0x30CC, 0x30CD, 0x30CE, 0x30CF, 0x30D2,
+    0x30D5, 0x30D8, 0x30DB, 0x30DE, 0x30DF, 0x30E0, 0x30E1, 0x30E2, 0x30E4, 0x30E6, 0x30E8, 0x30E9, 0x30EA, 0x30EB, 0x30EC, 0x30ED,
+    0x30EF, 0x30F0, 0x30F1, 0x30F2, 0x4EE4, 0x548C, 0x30A2, 0x30CF, 0x309A, 0x30FC, 0x30C8, 0x30A2, 0x30EB, 0x30D5, 0x30A1, 0x30A2,
+    0x30F3, 0x30D8, 0x309A, 0x30A2, 0x30A2, 0x30FC, 0x30EB, 0x30A4, 0x30CB, 0x30F3, 0x30AF, 0x3099, 0x30A4, 0x30F3, 0x30C1, 0x30A6,
+    0x30A9, 0x30F3, 0x30A8, 0x30B9, 0x30AF, 0x30FC, 0x30C8, 0x3099, 0x30A8, 0x30FC, 0x30AB, 0x30FC, 0x30AA, 0x30F3, 0x30B9, 0x30AA,
+    0x30FC, 0x30E0, 0x30AB, 0x30A4, 0x30EA, 0x30AB, 0x30E9, 0x30C3, 0x30C8, 0x30AB, 0x30ED, 0x30EA, 0x30FC, 0x30AB, 0x3099, 0x30ED,
+    0x30F3, 0x30AB, 0x3099, 0x30F3, 0x30DE, 0x30AD, 0x3099, 0x30AB, 0x3099, 0x30AD, 0x3099, 0x30CB, 0x30FC, 0x30AD, 0x30E5, 0x30EA,
+    0x30FC, 0x30AD, 0x3099, 0x30EB, 0x30BF, 0x3099, 0x30FC, 0x30AD, 0x30ED, 0x30AD, 0x30ED, 0x30AF, 0x3099, 0x30E9, 0x30E0, 0x30AD,
+    0x30ED, 0x30E1, 0x30FC, 0x30C8, 0x30EB, 0x30AD, 0x30ED, 0x30EF, 0x30C3, 0x30C8, 0x30AF, 0x3099, 0x30E9, 0x30E0, 0x30AF, 0x3099,
+    0x30E9, 0x30E0, 0x30C8, 0x30F3, 0x30AF, 0x30EB, 0x30BB, 0x3099, 0x30A4, 0x30ED, 0x30AF, 0x30ED, 0x30FC, 0x30CD, 0x30B1, 0x30FC,
+    0x30B9, 0x30B3, 0x30EB, 0x30CA, 0x30B3, 0x30FC, 0x30DB, 0x309A, 0x30B5, 0x30A4, 0x30AF, 0x30EB, 0x30B5, 0x30F3, 0x30C1, 0x30FC,
+    0x30E0, 0x30B7, 0x30EA, 0x30F3, 0x30AF, 0x3099, 0x30BB, 0x30F3, 0x30C1, 0x30BB, 0x30F3, 0x30C8, 0x30BF, 0x3099, 0x30FC, 0x30B9,
+    0x30C6, 0x3099, 0x30B7, 0x30C8, 0x3099, 0x30EB, 0x30C8, 0x30F3, 0x30CA, 0x30CE, 0x30CE, 0x30C3, 0x30C8, 0x30CF, 0x30A4, 0x30C4,
+    0x30CF, 0x309A, 0x30FC, 0x30BB, 0x30F3, 0x30C8, 0x30CF, 0x309A, 0x30FC, 0x30C4, 0x30CF, 0x3099, 0x30FC, 0x30EC, 0x30EB, 0x30D2,
+    0x309A, 0x30A2, 0x30B9, 0x30C8, 0x30EB, 0x30D2, 0x309A, 0x30AF, 0x30EB, 0x30D2, 0x309A, 0x30B3, 0x30D2, 0x3099, 0x30EB, 0x30D5,
+    0x30A1, 0x30E9, 0x30C3, 0x30C8, 0x3099, 0x30D5, 0x30A3, 0x30FC, 0x30C8, 0x30D5, 0x3099, 0x30C3, 0x30B7, 0x30A7, 0x30EB, 0x30D5,
+    0x30E9, 0x30F3, 0x30D8, 0x30AF, 0x30BF, 0x30FC, 0x30EB, 0x30D8, 0x309A, 0x30BD, 0x30D8, 0x309A, 0x30CB, 0x30D2, 0x30D8, 0x30EB,
+    0x30C4, 0x30D8, 0x309A, 0x30F3, 0x30B9, 0x30D8, 0x309A, 0x30FC, 0x30B7, 0x3099, 0x30D8, 0x3099, 0x30FC, 0x30BF, 0x30DB, 0x309A,
+    0x30A4, 0x30F3, 0x30C8, 0x30DB, 0x3099, 0x30EB, 0x30C8, 0x30DB, 0x30F3, 0x30DB, 0x309A, 0x30F3, 0x30C8, 0x3099, 0x30DB, 0x30FC,
+    0x30EB, 0x30DB, 0x30FC, 0x30F3, 0x30DE, 0x30A4, 0x30AF, 0x30ED, 0x30DE, 0x30A4, 0x30EB, 0x30DE, 0x30C3, 0x30CF, 0x30DE, 0x30EB,
+    0x30AF, 0x30DE, 0x30F3, 0x30B7, 0x30E7, 0x30F3, 0x30DF, 0x30AF, 0x30ED, 0x30F3, 0x30DF, 0x30EA, 0x30DF, 0x30EA, 0x30CF, 0x3099,
+    0x30FC, 0x30EB, 0x30E1, 0x30AB, 0x3099, 0x30E1, 0x30AB, 0x3099, 0x30C8, 0x30F3, 0x30E1, 0x30FC, 0x30C8, 0x30EB, 0x30E4, 0x30FC,
+    0x30C8, 0x3099, 0x30E4, 0x30FC, 0x30EB, 0x30E6, 0x30A2, 0x30F3, 0x30EA, 0x30C3, 0x30C8, 0x30EB, 0x30EA, 0x30E9, 0x30EB, 0x30D2,
+    0x309A, 0x30FC, 0x30EB, 0x30FC, 0x30D5, 0x3099, 0x30EB, 0x30EC, 0x30E0, 0x30EC, 0x30F3, 0x30C8, 0x30B1, 0x3099, 0x30F3, 0x30EF,
+    0x30C3, 0x30C8, 0x30, 0x70B9, 0x31, 0x70B9, 0x32, 0x70B9, 0x33, 0x70B9, 0x34, 0x70B9, 0x35, 0x70B9, 0x36, 0x70B9,
+    0x37, 0x70B9, 0x38, 0x70B9, 0x39, 0x70B9, 0x31, 0x30, 0x70B9, 0x31, 0x31, 0x70B9, 0x31, 0x32, 0x70B9, 0x31,
+    0x33, 0x70B9, 0x31, 0x34, 0x70B9, 0x31, 0x35, 0x70B9, 0x31, 0x36, 0x70B9, 0x31, 0x37, 0x70B9, 0x31, 0x38,
+    0x70B9, 0x31, 0x39, 0x70B9, 0x32, 0x30, 0x70B9, 0x32, 0x31, 0x70B9, 0x32, 0x32, 0x70B9, 0x32, 0x33, 0x70B9,
+    0x32, 0x34, 0x70B9, 0x68, 0x50, 0x61, 0x64, 0x61, 0x41, 0x55, 0x62, 0x61, 0x72, 0x6F, 0x56, 0x70,
+    0x63, 0x64, 0x6D, 0x64, 0x6D, 0x32, 0x64, 0x6D, 0x33, 0x49, 0x55, 0x5E73, 0x6210, 0x662D, 0x548C, 0x5927,
+    0x6B63, 0x660E, 0x6CBB, 0x682A, 0x5F0F, 0x4F1A, 0x793E, 0x70, 0x41, 0x6E, 0x41, 0x3BC, 0x41, 0x6D, 0x41, 0x6B,
+    0x41, 0x4B, 0x42, 0x4D, 0x42, 0x47, 0x42, 0x63, 0x61, 0x6C, 0x6B, 0x63, 0x61, 0x6C, 0x70, 0x46,
+    0x6E, 0x46, 0x3BC, 0x46, 0x3BC, 0x67, 0x6D, 0x67, 0x6B, 0x67, 0x48, 0x7A, 0x6B, 0x48, 0x7A, 0x4D,
+    0x48, 0x7A, 0x47, 0x48, 0x7A, 0x54, 0x48, 0x7A, 0x3BC, 0x6C, 0x6D, 0x6C, 0x64, 0x6C, 0x6B, 0x6C,
+    0x66, 0x6D, 0x6E, 0x6D, 0x3BC, 0x6D, 0x6D, 0x6D, 0x63, 0x6D, 0x6B, 0x6D, 0x6D, 0x6D, 0x32, 0x63,
+    0x6D, 0x32, 0x6D, 0x32, 0x6B, 0x6D, 0x32, 0x6D, 0x6D, 0x33, 0x63, 0x6D, 0x33, 0x6D, 0x33, 0x6B,
+    0x6D, 0x33, 0x6D, 0x2215, 0x73, 0x6D, 0x2215, 0x73, 0x32, 0x50, 0x61, 0x6B, 0x50, 0x61, 0x4D, 0x50,
+    0x61, 0x47, 0x50, 0x61, 0x72, 0x61, 0x64, 0x72, 0x61, 0x64, 0x2215, 0x73, 0x72, 0x61, 0x64, 0x2215,
+    0x73, 0x32, 0x70, 0x73, 0x6E, 0x73, 0x3BC, 0x73, 0x6D, 0x73, 0x70, 0x56, 0x6E, 0x56, 0x3BC, 0x56,
+    0x6D, 0x56, 0x6B, 0x56, 0x4D, 0x56, 0x70, 0x57, 0x6E, 0x57, 0x3BC, 0x57, 0x6D, 0x57, 0x6B, 0x57,
+    0x4D, 0x57, 0x6B, 0x3A9, 0x4D, 0x3A9, 0x61, 0x2E, 0x6D, 0x2E, 0x42, 0x71, 0x63, 0x63, 0x63, 0x64,
+    0x43, 0x2215, 0x6B, 0x67, 0x43, 0x6F, 0x2E, 0x64, 0x42, 0x47, 0x79, 0x68, 0x61, 0x48, 0x50, 0x69,
+    0x6E, 0x4B, 0x4B, 0x4B, 0x4D, 0x6B, 0x74, 0x6C, 0x6D, 0x6C, 0x6E, 0x6C, 0x6F, 0x67, 0x6C, 0x78,
+    0x6D, 0x62, 0x6D, 0x69, 0x6C, 0x6D, 0x6F, 0x6C, 0x50, 0x48, 0x70, 0x2E, 0x6D, 0x2E, 0x50, 0x50,
+    0x4D, 0x50, 0x52, 0x73, 0x72, 0x53, 0x76, 0x57, 0x62, 0x56, 0x2215, 0x6D, 0x41, 0x2215, 0x6D, 0x31,
+    0x65E5, 0x32, 0x65E5, 0x33, 0x65E5, 0x34, 0x65E5, 0x35, 0x65E5, 0x36, 0x65E5, 0x37, 0x65E5, 0x38, 0x65E5, 0x39,
+    0x65E5, 0x31, 0x30, 0x65E5, 0x31, 0x31, 0x65E5, 0x31, 0x32, 0x65E5, 0x31, 0x33, 0x65E5, 0x31, 0x34, 0x65E5,
+    0x31, 0x35, 0x65E5, 0x31, 0x36, 0x65E5, 0x31, 0x37, 0x65E5, 0x31, 0x38, 0x65E5, 0x31, 0x39, 0x65E5, 0x32,
+    0x30, 0x65E5, 0x32, 0x31, 0x65E5, 0x32, 0x32, 0x65E5, 0x32, 0x33, 0x65E5, 0x32, 0x34, 0x65E5, 0x32, 0x35,
+    0x65E5, 0x32, 0x36, 0x65E5, 0x32, 0x37, 0x65E5, 0x32, 0x38, 0x65E5, 0x32, 0x39, 0x65E5, 0x33, 0x30, 0x65E5,
+    0x33, 0x31, 0x65E5, 0x67, 0x61, 0x6C, 0x44A, 0x44C, 0xA76F, 0x43, 0x46, 0x51, 0x126, 0x153, 0xA727, 0xAB37,
+    0x26B, 0xAB52, 0x28D, 0x66, 0x66, 0x66, 0x69, 0x66, 0x6C, 0x66, 0x66, 0x69, 0x66, 0x66, 0x6C, 0x73,
+    0x74, 0x73, 0x74, 0x574, 0x576, 0x574, 0x565, 0x574, 0x56B, 0x57E, 0x576, 0x574, 0x56D, 0x5E2, 0x5D0, 0x5D3,
+    0x5D4, 0x5DB, 0x5DC, 0x5DD, 0x5E8, 0x5EA, 0x2B, 0x5D0, 0x5DC, 0x671, 0x671, 0x67B, 0x67B, 0x67B, 0x67B, 0x67E,
+    0x67E, 0x67E, 0x67E, 0x680, 0x680, 0x680, 0x680, 0x67A, 0x67A, 0x67A, 0x67A, 0x67F, 0x67F, 0x67F, 0x67F, 0x679,
+    0x679, 0x679, 0x679, 0x6A4, 0x6A4, 0x6A4, 0x6A4, 0x6A6, 0x6A6, 0x6A6, 0x6A6, 0x684, 0x684, 0x684, 0x684, 0x683,
+    0x683, 0x683, 0x683, 0x686, 0x686, 0x686, 0x686, 0x687, 0x687, 0x687, 0x687, 0x68D, 0x68D, 0x68C, 0x68C, 0x68E,
+    0x68E, 0x688, 0x688, 0x698, 0x698, 0x691, 0x691, 0x6A9, 0x6A9, 0x6A9, 0x6A9, 0x6AF, 0x6AF, 0x6AF, 0x6AF, 0x6B3,
+    0x6B3, 0x6B3, 0x6B3, 0x6B1, 0x6B1, 0x6B1, 0x6B1, 0x6BA, 0x6BA, 0x6BB, 0x6BB, 0x6BB, 0x6BB, 0x6D5, 0x654, 0x6D5,
+    0x654, 0x6C1, 0x6C1, 0x6C1, 0x6C1, 0x6BE, 0x6BE, 0x6BE, 0x6BE, 0x6D2, 0x6D2, 0x6D2, 0x654, 0x6D2, 0x654, 0x6AD,
+    0x6AD, 0x6AD, 0x6AD, 0x6C7, 0x6C7, 0x6C6, 0x6C6, 0x6C8, 0x6C8, 0x6C7, 0x674, 0x6CB, 0x6CB, 0x6C5, 0x6C5, 0x6C9,
+    0x6C9, 0x6D0, 0x6D0, 0x6D0, 0x6D0, 0x649, 0x649, 0x64A, 0x654, 0x627, 0x64A, 0x654, 0x627, 0x64A, 0x654, 0x6D5,
+    0x64A, 0x654, 0x6D5, 0x64A, 0x654, 0x648, 0x64A, 0x654, 0x648, 0x64A, 0x654, 0x6C7, 0x64A, 0x654, 0x6C7, 0x64A,
+    0x654, 0x6C6, 0x64A, 0x654, 0x6C6, 0x64A, 0x654, 0x6C8, 0x64A, 0x654, 0x6C8, 0x64A, 0x654, 0x6D0, 0x64A, 0x654,
+    0x6D0, 0x64A, 0x654, 0x6D0, 0x64A, 0x654, 0x649, 0x64A, 0x654, 0x649, 0x64A, 0x654, 0x649, 0x6CC, 0x6CC, 0x6CC,
+    0x6CC, 0x64A, 0x654, 0x62C, 0x64A, 0x654, 0x62D, 0x64A, 0x654, 0x645, 0x64A, 0x654, 0x649, 0x64A, 0x654, 0x64A,
+    0x628, 0x62C, 0x628, 0x62D, 0x628, 0x62E, 0x628, 0x645, 0x628, 0x649, 0x628, 0x64A, 0x62A, 0x62C, 0x62A, 0x62D,
+    0x62A, 0x62E, 0x62A, 0x645, 0x62A, 0x649, 0x62A, 0x64A, 0x62B, 0x62C, 0x62B, 0x645, 0x62B, 0x649, 0x62B, 0x64A,
+    0x62C, 0x62D, 0x62C, 0x645, 0x62D, 0x62C, 0x62D, 0x645, 0x62E, 0x62C, 0x62E, 0x62D, 0x62E, 0x645, 0x633, 0x62C,
+    0x633, 0x62D, 0x633, 0x62E, 0x633, 0x645, 0x635, 0x62D, 0x635, 0x645, 0x636, 0x62C, 0x636, 0x62D, 0x636, 0x62E,
+    0x636, 0x645, 0x637, 0x62D, 0x637, 0x645, 0x638, 0x645, 0x639, 0x62C, 0x639, 0x645, 0x63A, 0x62C, 0x63A, 0x645,
+    0x641, 0x62C, 0x641, 0x62D, 0x641, 0x62E, 0x641, 0x645, 0x641, 0x649, 0x641, 0x64A, 0x642, 0x62D, 0x642, 0x645,
+    0x642, 0x649, 0x642, 0x64A, 0x643, 0x627, 0x643, 0x62C, 0x643, 0x62D, 0x643, 0x62E, 0x643, 0x644, 0x643, 0x645,
+    0x643, 0x649, 0x643, 0x64A, 0x644, 0x62C, 0x644, 0x62D, 0x644, 0x62E, 0x644, 0x645, 0x644, 0x649, 0x644, 0x64A,
+    0x645, 0x62C, 0x645, 0x62D, 0x645, 0x62E, 0x645, 0x645, 0x645, 0x649, 0x645, 0x64A, 0x646, 0x62C, 0x646, 0x62D,
+    0x646, 0x62E, 0x646, 0x645, 0x646, 0x649, 0x646, 0x64A, 0x647, 0x62C, 0x647, 0x645, 0x647, 0x649, 0x647, 0x64A,
+    0x64A, 0x62C, 0x64A, 0x62D, 0x64A, 0x62E, 0x64A, 0x645, 0x64A, 0x649, 0x64A, 0x64A, 0x630, 0x670, 0x631, 0x670,
+    0x649, 0x670, 0x20, 0x64C, 0x651, 0x20, 0x64D, 0x651, 0x20, 0x64E, 0x651, 0x20, 0x64F, 0x651, 0x20, 0x650,
+    0x651, 0x20, 0x651, 0x670, 0x64A, 0x654, 0x631, 0x64A, 0x654, 0x632, 0x64A, 0x654, 0x645, 0x64A, 0x654, 0x646,
+    0x64A, 0x654, 0x649, 0x64A, 0x654, 0x64A, 0x628, 0x631, 0x628, 0x632, 0x628, 0x645, 0x628, 0x646, 0x628, 0x649,
+    0x628, 0x64A, 0x62A, 0x631, 0x62A, 0x632, 0x62A, 0x645, 0x62A, 0x646, 0x62A, 0x649, 0x62A, 0x64A, 0x62B, 0x631,
+    0x62B, 0x632, 0x62B, 0x645, 0x62B, 0x646, 0x62B, 0x649, 0x62B, 0x64A, 0x641, 0x649, 0x641, 0x64A, 0x642, 0x649,
+    0x642, 0x64A, 0x643, 0x627, 0x643, 0x644, 0x643, 0x645, 0x643, 0x649, 0x643, 0x64A, 0x644, 0x645, 0x644, 0x649,
+    0x644, 0x64A, 0x645, 0x627, 0x645, 0x645, 0x646, 0x631, 0x646, 0x632, 0x646, 0x645, 0x646, 0x646, 0x646, 0x649,
+    0x646, 0x64A, 0x649, 0x670, 0x64A, 0x631, 0x64A, 0x632, 0x64A, 0x645, 0x64A, 0x646, 0x64A, 0x649, 0x64A, 0x64A,
+    0x64A, 0x654, 0x62C, 0x64A, 0x654, 0x62D, 0x64A, 0x654, 0x62E, 0x64A, 0x654, 0x645, 0x64A, 0x654, 0x647, 0x628,
+    0x62C, 0x628, 0x62D, 0x628, 0x62E, 0x628, 0x645, 0x628, 0x647, 0x62A, 0x62C, 0x62A, 0x62D, 0x62A, 0x62E, 0x62A,
+    0x645, 0x62A, 0x647, 0x62B, 0x645, 0x62C, 0x62D, 0x62C, 0x645, 0x62D, 0x62C, 0x62D, 0x645, 0x62E, 0x62C, 0x62E,
+    0x645, 0x633, 0x62C, 0x633, 0x62D, 0x633, 0x62E, 0x633, 0x645, 0x635, 0x62D, 0x635, 0x62E, 0x635, 0x645, 0x636,
+    0x62C, 0x636, 0x62D, 0x636, 0x62E, 0x636, 0x645, 0x637, 0x62D, 0x638, 0x645, 0x639, 0x62C, 0x639, 0x645, 0x63A,
+    0x62C, 0x63A, 0x645, 0x641, 0x62C, 0x641, 0x62D, 0x641, 0x62E, 0x641, 0x645, 0x642, 0x62D, 0x642, 0x645, 0x643,
+    0x62C, 0x643, 0x62D, 0x643, 0x62E, 0x643, 0x644, 0x643, 0x645, 0x644, 0x62C, 0x644, 0x62D, 0x644, 0x62E, 0x644,
+    0x645, 0x644, 0x647, 0x645, 0x62C, 0x645, 0x62D, 0x645, 0x62E, 0x645, 0x645, 0x646, 0x62C, 0x646, 0x62D, 0x646,
+    0x62E, 0x646, 0x645, 0x646, 0x647, 0x647, 0x62C, 0x647, 0x645, 0x647, 0x670, 0x64A, 0x62C, 0x64A, 0x62D, 0x64A,
+    0x62E, 0x64A, 0x645, 0x64A, 0x647, 0x64A, 0x654, 0x645, 0x64A, 0x654, 0x647, 0x628, 0x645, 0x628, 0x647, 0x62A,
+    0x645, 0x62A, 0x647, 0x62B, 0x645, 0x62B, 0x647, 0x633, 0x645, 0x633, 0x647, 0x634, 0x645, 0x634, 0x647, 0x643,
+    0x644, 0x643, 0x645, 0x644, 0x645, 0x646, 0x645, 0x646, 0x647, 0x64A, 0x645, 0x64A, 0x647, 0x640, 0x64E, 0x651,
+    0x640, 0x64F, 0x651, 0x640, 0x650, 0x651, 0x637, 0x649, 0x637, 0x64A, 0x639, 0x649, 0x639, 0x64A, 0x63A, 0x649,
+    0x63A, 0x64A, 0x633, 0x649, 0x633, 0x64A, 0x634, 0x649, 0x634, 0x64A, 0x62D, 0x649, 0x62D, 0x64A, 0x62C, 0x649,
+    0x62C, 0x64A, 0x62E, 0x649, 0x62E, 0x64A, 0x635, 0x649, 0x635, 0x64A, 0x636, 0x649, 0x636, 0x64A, 0x634, 0x62C,
+    0x634, 0x62D, 0x634, 0x62E, 0x634, 0x645, 0x634, 0x631, 0x633, 0x631, 0x635, 0x631, 0x636, 0x631, 0x637, 0x649,
+    0x637, 0x64A, 0x639, 0x649, 0x639, 0x64A, 0x63A, 0x649, 0x63A, 0x64A, 0x633, 0x649, 0x633, 0x64A, 0x634, 0x649,
+    0x634, 0x64A, 0x62D, 0x649, 0x62D, 0x64A, 0x62C, 0x649, 0x62C, 0x64A, 0x62E, 0x649, 0x62E, 0x64A, 0x635, 0x649,
+    0x635, 0x64A, 0x636, 0x649, 0x636, 0x64A, 0x634, 0x62C, 0x634, 0x62D, 0x634, 0x62E, 0x634, 0x645, 0x634, 0x631,
+    0x633, 0x631, 0x635, 0x631, 0x636, 0x631, 0x634, 0x62C, 0x634, 0x62D, 0x634, 0x62E, 0x634, 0x645, 0x633, 0x647,
+    0x634, 0x647, 0x637, 0x645, 0x633, 0x62C, 0x633, 0x62D, 0x633, 0x62E, 0x634, 0x62C, 0x634, 0x62D, 0x634, 0x62E,
+    0x637, 0x645, 0x638, 0x645, 0x627, 0x64B, 0x627, 0x64B, 0x62A, 0x62C, 0x645, 0x62A, 0x62D, 0x62C, 0x62A, 0x62D,
+    0x62C, 0x62A, 0x62D, 0x645, 0x62A, 0x62E, 0x645, 0x62A, 0x645, 0x62C, 0x62A, 0x645, 0x62D, 0x62A, 0x645, 0x62E,
+    0x62C, 0x645, 0x62D, 0x62C, 0x645, 0x62D, 0x62D, 0x645, 0x64A, 0x62D, 0x645, 0x649, 0x633, 0x62D, 0x62C, 0x633,
+    0x62C, 0x62D, 0x633, 0x62C, 0x649, 0x633, 0x645, 0x62D, 0x633, 0x645, 0x62D, 0x633, 0x645, 0x62C, 0x633, 0x645,
+    0x645, 0x633, 0x645, 0x645, 0x635, 0x62D, 0x62D, 0x635, 0x62D, 0x62D, 0x635, 0x645, 0x645, 0x634, 0x62D, 0x645,
+    0x634, 0x62D, 0x645, 0x634, 0x62C, 0x64A, 0x634, 0x645, 0x62E, 0x634, 0x645, 0x62E, 0x634, 0x645, 0x645, 0x634,
+    0x645, 0x645, 0x636, 0x62D, 0x649, 0x636, 0x62E, 0x645, 0x636, 0x62E, 0x645, 0x637, 0x645, 0x62D, 0x637, 0x645,
+    0x62D, 0x637, 0x645, 0x645, 0x637, 0x645, 0x64A, 0x639, 0x62C, 0x645, 0x639, 0x645, 0x645, 0x639, 0x645, 0x645,
+    0x639, 0x645, 0x649, 0x63A, 0x645, 0x645, 0x63A, 0x645, 0x64A, 0x63A, 0x645, 0x649, 0x641, 0x62E, 0x645, 0x641,
+    0x62E, 0x645, 0x642, 0x645, 0x62D, 0x642, 0x645, 0x645, 0x644, 0x62D, 0x645, 0x644, 0x62D, 0x64A, 0x644, 0x62D,
+    0x649, 0x644, 0x62C, 0x62C, 0x644, 0x62C, 0x62C, 0x644, 0x62E, 0x645, 0x644, 0x62E, 0x645, 0x644, 0x645, 0x62D,
+    0x644, 0x645, 0x62D, 0x645, 0x62D, 0x62C, 0x645, 0x62D, 0x645, 0x645, 0x62D, 0x64A, 0x645, 0x62C, 0x62D, 0x645,
+    0x62C, 0x645, 0x645, 0x62E, 0x62C, 0x645, 0x62E, 0x645, 0x645, 0x62C, 0x62E, 0x647, 0x645, 0x62C, 0x647, 0x645,
+    0x645, 0x646, 0x62D, 0x645, 0x646, 0x62D, 0x649, 0x646, 0x62C, 0x645, 0x646, 0x62C, 0x645, 0x646, 0x62C, 0x649,
+    0x646, 0x645, 0x64A, 0x646, 0x645, 0x649, 0x64A, 0x645, 0x645, 0x64A, 0x645, 0x645, 0x628, 0x62E, 0x64A, 0x62A,
+    0x62C, 0x64A, 0x62A, 0x62C, 0x649, 0x62A, 0x62E, 0x64A, 0x62A, 0x62E, 0x649, 0x62A, 0x645, 0x64A, 0x62A, 0x645,
+    0x649, 0x62C, 0x645, 0x64A, 0x62C, 0x62D, 0x649, 0x62C, 0x645, 0x649, 0x633, 0x62E, 0x649, 0x635, 0x62D, 0x64A,
+    0x634, 0x62D, 0x64A, 0x636, 0x62D, 0x64A, 0x644, 0x62C, 0x64A, 0x644, 0x645, 0x64A, 0x64A, 0x62D, 0x64A, 0x64A,
+    0x62C, 0x64A, 0x64A, 0x645, 0x64A, 0x645, 0x645, 0x64A, 0x642, 0x645, 0x64A, 0x646, 0x62D, 0x64A, 0x642, 0x645,
+    0x62D, 0x644, 0x62D, 0x645, 0x639, 0x645, 0x64A, 0x643, 0x645, 0x64A, 0x646, 0x62C, 0x62D, 0x645, 0x62E, 0x64A,
+    0x644, 0x62C, 0x645, 0x643, 0x645, 0x645, 0x644, 0x62C, 0x645, 0x646, 0x62C, 0x62D, 0x62C, 0x62D, 0x64A, 0x62D,
+    0x62C, 0x64A, 0x645, 0x62C, 0x64A, 0x641, 0x645, 0x64A, 0x628, 0x62D, 0x64A, 0x643, 0x645, 0x645, 0x639, 0x62C,
+    0x645, 0x635, 0x645, 0x645, 0x633, 0x62E, 0x64A, 0x646, 0x62C, 0x64A, 0x635, 0x644, 0x6D2, 0x642, 0x644, 0x6D2,
+    0x627, 0x644, 0x644, 0x647, 0x627, 0x643, 0x628, 0x631, 0x645, 0x62D, 0x645, 0x62F, 0x635, 0x644, 0x639, 0x645,
+    0x631, 0x633, 0x648, 0x644, 0x639, 0x644, 0x64A, 0x647, 0x648, 0x633, 0x644, 0x645, 0x635, 0x644, 0x649, 0x635,
+    0x644, 0x649, 0x20, 0x627, 0x644, 0x644, 0x647, 0x20, 0x639, 0x644, 0x64A, 0x647, 0x20, 0x648, 0x633, 0x644,
+    0x645, 0x62C, 0x644, 0x20, 0x62C, 0x644, 0x627, 0x644, 0x647, 0x631, 0x6CC, 0x627, 0x644, 0x2C, 0x3001, 0x3002,
+    0x3A, 0x3B, 0x21, 0x3F, 0x3016, 0x3017, 0x2E, 0x2E, 0x2E, 0x2E, 0x2E, 0x2014, 0x2013, 0x5F, 0x5F, 0x28,
+    0x29, 0x7B, 0x7D, 0x3014, 0x3015, 0x3010, 0x3011, 0x300A, 0x300B, 0x3008, 0x3009, 0x300C, 0x300D, 0x300E, 0x300F, 0x5B,
+    0x5D, 0x20, 0x305, 0x20, 0x305, 0x20, 0x305, 0x20, 0x305, 0x5F, 0x5F, 0x5F, 0x2C, 0x3001, 0x2E, 0x3B,
+    0x3A, 0x3F, 0x21, 0x2014, 0x28, 0x29, 0x7B, 0x7D, 0x3014, 0x3015, 0x23, 0x26, 0x2A, 0x2B, 0x2D, 0x3C,
+    0x3E, 0x3D, 0x5C, 0x24, 0x25, 0x40, 0x20, 0x64B, 0x640, 0x64B, 0x20, 0x64C, 0x20, 0x64D, 0x20, 0x64E,
+    0x640, 0x64E, 0x20, 0x64F, 0x640, 0x64F, 0x20, 0x650, 0x640, 0x650, 0x20, 0x651, 0x640, 0x651, 0x20, 0x652,
+    0x640, 0x652, 0x621, 0x627, 0x653, 0x627, 0x653, 0x627, 0x654, 0x627, 0x654, 0x648, 0x654, 0x648, 0x654, 0x627,
+    0x655, 0x627, 0x655, 0x64A, 0x654, 0x64A, 0x654, 0x64A, 0x654, 0x64A, 0x654, 0x627, 0x627, 0x628, 0x628, 0x628,
+    0x628, 0x629, 0x629, 0x62A, 0x62A, 0x62A, 0x62A, 0x62B, 0x62B, 0x62B, 0x62B, 0x62C, 0x62C, 0x62C, 0x62C, 0x62D,
+    0x62D, 0x62D, 0x62D, 0x62E, 0x62E, 0x62E, 0x62E, 0x62F, 0x62F, 0x630, 0x630, 0x631, 0x631, 0x632, 0x632, 0x633,
+    0x633, 0x633, 0x633, 0x634, 0x634, 0x634, 0x634, 0x635, 0x635, 0x635, 0x635, 0x636, 0x636, 0x636, 0x636, 0x637,
+    0x637, 0x637, 0x637, 0x638, 0x638, 0x638, 0x638, 0x639, 0x639, 0x639, 0x639, 0x63A, 0x63A, 0x63A, 0x63A, 0x641,
+    0x641, 0x641, 0x641, 0x642, 0x642, 0x642, 0x642, 0x643, 0x643, 0x643, 0x643, 0x644, 0x644, 0x644, 0x644, 0x645,
+    0x645, 0x645, 0x645, 0x646, 0x646, 0x646, 0x646, 0x647, 0x647, 0x647, 0x647, 0x648, 0x648, 0x649, 0x649, 0x64A,
+    0x64A, 0x64A, 0x64A, 0x644, 0x627, 0x653, 0x644, 0x627, 0x653, 0x644, 0x627, 0x654, 0x644, 0x627, 0x654, 0x644,
+    0x627, 0x655, 0x644, 0x627, 0x655, 0x644, 0x627, 0x644, 0x627, 0x21, 0x22, 0x23, 0x24, 0x25, 0x26, 0x27,
+    0x28, 0x29, 0x2A, 0x2B, 0x2C, 0x2D, 0x2E, 0x2F, 0x30, 0x31, 0x32, 0x33, 0x34, 0x35, 0x36, 0x37,
+    0x38, 0x39, 0x3A, 0x3B, 0x3C, 0x3D, 0x3E, 0x3F, 0x40, 0x41, 0x42, 0x43, 0x44, 0x45, 0x46, 0x47,
+    0x48, 0x49, 0x4A, 0x4B, 0x4C, 0x4D, 0x4E, 0x4F, 0x50, 0x51, 0x52, 0x53, 0x54, 0x55, 0x56, 0x57,
+    0x58, 0x59, 0x5A, 0x5B, 0x5C, 0x5D, 0x5E, 0x5F, 0x60, 0x61, 0x62, 0x63, 0x64, 0x65, 0x66, 0x67,
+    0x68, 0x69, 0x6A, 0x6B, 0x6C, 0x6D, 0x6E, 0x6F, 0x70, 0x71, 0x72, 0x73, 0x74, 0x75, 0x76, 0x77,
+    0x78, 0x79, 0x7A, 0x7B, 0x7C, 0x7D, 0x7E, 0x2985, 0x2986, 0x3002, 0x300C, 0x300D, 0x3001, 0x30FB, 0x30F2, 0x30A1,
+    0x30A3, 0x30A5, 0x30A7, 0x30A9, 0x30E3, 0x30E5, 0x30E7, 0x30C3, 0x30FC, 0x30A2, 0x30A4, 0x30A6, 0x30A8, 0x30AA, 0x30AB, 0x30AD,
+    0x30AF, 0x30B1, 0x30B3, 0x30B5, 0x30B7, 0x30B9, 0x30BB, 0x30BD, 0x30BF, 0x30C1, 0x30C4, 0x30C6, 0x30C8, 0x30CA, 0x30CB, 0x30CC,
+    0x30CD, 0x30CE, 0x30CF, 0x30D2, 0x30D5, 0x30D8, 0x30DB, 0x30DE, 0x30DF, 0x30E0, 0x30E1, 0x30E2, 0x30E4, 0x30E6, 0x30E8, 0x30E9,
+    0x30EA, 0x30EB, 0x30EC, 0x30ED, 0x30EF, 0x30F3, 0x3099, 0x309A, 0x1160, 0x1100, 0x1101, 0x11AA, 0x1102, 0x11AC, 0x11AD, 0x1103,
+    0x1104, 0x1105, 0x11B0, 0x11B1, 0x11B2, 0x11B3, 0x11B4, 0x11B5, 0x111A, 0x1106, 0x1107, 0x1108, 0x1121, 0x1109, 0x110A, 0x110B,
+    0x110C, 0x110D, 0x110E, 0x110F, 0x1110, 0x1111, 0x1112, 0x1161, 0x1162, 0x1163, 0x1164, 0x1165, 0x1166, 0x1167, 0x1168, 0x1169,
+    0x116A, 0x116B, 0x116C, 0x116D, 0x116E, 0x116F, 0x1170, 0x1171, 0x1172, 0x1173, 0x1174, 0x1175, 0xA2, 0xA3, 0xAC, 0x20,
+    0x304, 0xA6, 0xA5, 0x20A9, 0x2502, 0x2190, 0x2191, 0x2192, 0x2193, 0x25A0, 0x25CB, 0x2D0, 0x2D1, 0xE6, 0x299, 0x253,
+    0x2A3, 0xAB66, 0x2A5, 0x2A4, 0x256, 0x257, 0x1D91, 0x258, 0x25E, 0x2A9, 0x264, 0x262, 0x260, 0x29B, 0x127, 0x29C,
+    0x267, 0x284, 0x2AA, 0x2AB, 0x26C, 0xD837, 0xDF04, 0xA78E, 0x26E, 0xD837, 0xDF05, 0x28E, 0xD837, 0xDF06, 0xF8, 0x276,
+    0x277, 0x71, 0x27A, 0xD837, 0xDF08, 0x27D, 0x27E, 0x280, 0x2A8, 0x2A6, 0xAB67, 0x2A7, 0x288, 0x2C71, 0x28F, 0x2A1,
+    0x2A2, 0x298, 0x1C0, 0x1C1, 0x1C2, 0xD837, 0xDF0A, 0xD837, 0xDF1E, 0x41, 0x42, 0x43, 0x44, 0x45, 0x46, 0x47,
+    0x48, 0x49, 0x4A, 0x4B, 0x4C, 0x4D, 0x4E, 0x4F, 0x50, 0x51, 0x52, 0x53, 0x54, 0x55, 0x56, 0x57,
+    0x58, 0x59, 0x5A, 0x30, 0x31, 0x32, 0x33, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x41, 0x42, 0x43,
+    0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4A, 0x4B, 0x4C, 0x4D, 0x4E, 0x4F, 0x50, 0x51, 0x52, 0x53,
+    0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5A, 0x61, 0x62, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+    0x6A, 0x6B, 0x6C, 0x6D, 0x6E, 0x6F, 0x70, 0x71, 0x72, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79,
+    0x7A, 0x41, 0x42, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4A, 0x4B, 0x4C, 0x4D, 0x4E, 0x4F,
+    0x50, 0x51, 0x52, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5A, 0x61, 0x62, 0x63, 0x64, 0x65,
+    0x66, 0x67, 0x69, 0x6A, 0x6B, 0x6C, 0x6D, 0x6E, 0x6F, 0x70, 0x71, 0x72, 0x73, 0x74, 0x75, 0x76,
+    0x77, 0x78, 0x79, 0x7A, 0x41, 0x42, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4A, 0x4B, 0x4C,
+    0x4D, 0x4E, 0x4F, 0x50, 0x51, 0x52, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5A, 0x61, 0x62,
+    0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6A, 0x6B, 0x6C, 0x6D, 0x6E, 0x6F, 0x70, 0x71, 0x72,
+    0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7A, 0x41, 0x43, 0x44, 0x47, 0x4A, 0x4B, 0x4E, 0x4F,
+    0x50, 0x51, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5A, 0x61, 0x62, 0x63, 0x64, 0x66, 0x68,
+    0x69, 0x6A, 0x6B, 0x6C, 0x6D, 0x6E, 0x70, 0x71, 0x72, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79,
+    0x7A, 0x41, 0x42, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4A, 0x4B, 0x4C, 0x4D, 0x4E, 0x4F,
+    0x50, 0x51, 0x52, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5A, 0x61, 0x62, 0x63, 0x64, 0x65,
+    0x66, 0x67, 0x68, 0x69, 0x6A, 0x6B, 0x6C, 0x6D, 0x6E, 0x6F, 0x70, 0x71, 0x72, 0x73, 0x74, 0x75,
+    0x76, 0x77, 0x78, 0x79, 0x7A, 0x41, 0x42, 0x44, 0x45, 0x46, 0x47, 0x4A, 0x4B, 0x4C, 0x4D, 0x4E,
+    0x4F, 0x50, 0x51, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x61, 0x62, 0x63, 0x64, 0x65, 0x66,
+    0x67, 0x68, 0x69, 0x6A, 0x6B, 0x6C, 0x6D, 0x6E, 0x6F, 0x70, 0x71, 0x72, 0x73, 0x74, 0x75, 0x76,
+    0x77, 0x78, 0x79, 0x7A, 0x41, 0x42, 0x44, 0x45, 0x46, 0x47, 0x49, 0x4A, 0x4B, 0x4C, 0x4D, 0x4F,
+    0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x61, 0x62, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+    0x6A, 0x6B, 0x6C, 0x6D, 0x6E, 0x6F, 0x70, 0x71, 0x72, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79,
+    0x7A, 0x41, 0x42, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4A, 0x4B, 0x4C, 0x4D, 0x4E, 0x4F,
+    0x50, 0x51, 0x52, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5A, 0x61, 0x62, 0x63, 0x64, 0x65,
+    0x66, 0x67, 0x68, 0x69, 0x6A, 0x6B, 0x6C, 0x6D, 0x6E, 0x6F, 0x70, 0x71, 0x72, 0x73, 0x74, 0x75,
+    0x76, 0x77, 0x78, 0x79, 0x7A, 0x41, 0x42, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4A, 0x4B,
+    0x4C, 0x4D, 0x4E, 0x4F, 0x50, 0x51, 0x52, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5A, 0x61,
+    0x62, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6A, 0x6B, 0x6C, 0x6D, 0x6E, 0x6F, 0x70, 0x71,
+    0x72, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7A, 0x41, 0x42, 0x43, 0x44, 0x45, 0x46, 0x47,
+    0x48, 0x49, 0x4A, 0x4B, 0x4C, 0x4D, 0x4E, 0x4F, 0x50, 0x51, 0x52, 0x53, 0x54, 0x55, 0x56, 0x57,
+    0x58, 0x59, 0x5A, 0x61, 0x62, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6A, 0x6B, 0x6C, 0x6D,
+    0x6E, 0x6F, 0x70, 0x71, 0x72, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7A, 0x41, 0x42, 0x43,
+    0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4A, 0x4B, 0x4C, 0x4D, 0x4E, 0x4F, 0x50, 0x51, 0x52, 0x53,
+    0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5A, 0x61, 0x62, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+    0x6A, 0x6B, 0x6C, 0x6D, 0x6E, 0x6F, 0x70, 0x71, 0x72, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79,
+    0x7A, 0x41, 0x42, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4A, 0x4B, 0x4C, 0x4D, 0x4E, 0x4F,
+    0x50, 0x51, 0x52, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5A, 0x61, 0x62, 0x63, 0x64, 0x65,
+    0x66, 0x67, 0x68, 0x69, 0x6A, 0x6B, 0x6C, 0x6D, 0x6E, 0x6F, 0x70, 0x71, 0x72, 0x73, 0x74, 0x75,
+    0x76, 0x77, 0x78, 0x79, 0x7A, 0x41, 0x42, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4A, 0x4B,
+    0x4C, 0x4D, 0x4E, 0x4F, 0x50, 0x51, 0x52, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5A, 0x61,
+    0x62, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6A, 0x6B, 0x6C, 0x6D, 0x6E, 0x6F, 0x70, 0x71,
+    0x72, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7A, 0x131, 0x237, 0x391, 0x392, 0x393, 0x394, 0x395,
+    0x396, 0x397, 0x398, 0x399, 0x39A, 0x39B, 0x39C, 0x39D, 0x39E, 0x39F, 0x3A0, 0x3A1, 0x398, 0x3A3, 0x3A4, 0x3A5,
+    0x3A6, 0x3A7, 0x3A8, 0x3A9, 0x2207, 0x3B1, 0x3B2, 0x3B3, 0x3B4, 0x3B5, 0x3B6, 0x3B7, 0x3B8, 0x3B9, 0x3BA, 0x3BB,
+    0x3BC, 0x3BD, 0x3BE, 0x3BF, 0x3C0, 0x3C1, 0x3C2, 0x3C3, 0x3C4, 0x3C5, 0x3C6, 0x3C7, 0x3C8, 0x3C9, 0x2202, 0x3B5,
+    0x3B8, 0x3BA, 0x3C6, 0x3C1, 0x3C0, 0x391, 0x392, 0x393, 0x394, 0x395, 0x396, 0x397, 0x398, 0x399, 0x39A, 0x39B,
+    0x39C, 0x39D, 0x39E, 0x39F, 0x3A0, 0x3A1, 0x398, 0x3A3, 0x3A4, 0x3A5, 0x3A6, 0x3A7, 0x3A8, 0x3A9, 0x2207, 0x3B1,
+    0x3B2, 0x3B3, 0x3B4, 0x3B5, 0x3B6, 0x3B7, 0x3B8, 0x3B9, 0x3BA, 0x3BB, 0x3BC, 0x3BD, 0x3BE, 0x3BF, 0x3C0, 0x3C1,
+    0x3C2, 0x3C3, 0x3C4, 0x3C5, 0x3C6, 0x3C7, 0x3C8, 0x3C9, 0x2202, 0x3B5, 0x3B8, 0x3BA, 0x3C6, 0x3C1, 0x3C0, 0x391,
+    0x392, 0x393, 0x394, 0x395, 0x396, 0x397, 0x398, 0x399, 0x39A, 0x39B, 0x39C, 0x39D, 0x39E, 0x39F, 0x3A0, 0x3A1,
+    0x398, 0x3A3, 0x3A4, 0x3A5, 0x3A6, 0x3A7, 0x3A8, 0x3A9, 0x2207, 0x3B1, 0x3B2, 0x3B3, 0x3B4, 0x3B5, 0x3B6, 0x3B7,
+    0x3B8, 0x3B9, 0x3BA, 0x3BB, 0x3BC, 0x3BD, 0x3BE, 0x3BF, 0x3C0, 0x3C1, 0x3C2, 0x3C3, 0x3C4, 0x3C5, 0x3C6, 0x3C7,
+    0x3C8, 0x3C9, 0x2202, 0x3B5, 0x3B8, 0x3BA, 0x3C6, 0x3C1, 0x3C0, 0x391, 0x392, 0x393, 0x394, 0x395, 0x396, 0x397,
+    0x398, 0x399, 0x39A, 0x39B, 0x39C, 0x39D, 0x39E, 0x39F, 0x3A0, 0x3A1, 0x398, 0x3A3, 0x3A4, 0x3A5, 0x3A6, 0x3A7,
+    0x3A8, 0x3A9, 0x2207, 0x3B1, 0x3B2, 0x3B3, 0x3B4, 0x3B5, 0x3B6, 0x3B7, 0x3B8, 0x3B9, 0x3BA, 0x3BB, 0x3BC, 0x3BD,
+    0x3BE, 0x3BF, 0x3C0, 0x3C1, 0x3C2, 0x3C3, 0x3C4, 0x3C5, 0x3C6, 0x3C7, 0x3C8, 0x3C9, 0x2202, 0x3B5, 0x3B8, 0x3BA,
+    0x3C6, 0x3C1, 0x3C0, 0x391, 0x392, 0x393, 0x394, 0x395, 0x396, 0x397, 0x398, 0x399, 0x39A, 0x39B, 0x39C, 0x39D,
+    0x39E, 0x39F, 0x3A0, 0x3A1, 0x398, 0x3A3, 0x3A4, 0x3A5, 0x3A6, 0x3A7, 0x3A8, 0x3A9, 0x2207, 0x3B1, 0x3B2, 0x3B3,
+    0x3B4, 0x3B5, 0x3B6, 0x3B7, 0x3B8, 0x3B9, 0x3BA, 0x3BB, 0x3BC, 0x3BD, 0x3BE, 0x3BF, 0x3C0, 0x3C1, 0x3C2, 0x3C3,
+    0x3C4, 0x3C5, 0x3C6, 0x3C7, 0x3C8, 0x3C9, 0x2202, 0x3B5, 0x3B8, 0x3BA, 0x3C6, 0x3C1, 0x3C0, 0x3DC, 0x3DD, 0x30,
+    0x31, 0x32, 0x33, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x30, 0x31, 0x32, 0x33, 0x34, 0x35, 0x36,
+    0x37, 0x38, 0x39, 0x30, 0x31, 0x32, 0x33, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x30, 0x31, 0x32,
+    0x33, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x30, 0x31, 0x32, 0x33, 0x34, 0x35, 0x36, 0x37, 0x38,
+    0x39, 0x430, 0x431, 0x432, 0x433, 0x434, 0x435, 0x436, 0x437, 0x438, 0x43A, 0x43B, 0x43C, 0x43E, 0x43F, 0x440,
+    0x441, 0x442, 0x443, 0x444, 0x445, 0x446, 0x447, 0x448, 0x44B, 0x44D, 0x44E, 0xA689, 0x4D9, 0x456, 0x458, 0x4E9,
+    0x4AF, 0x4CF, 0x430, 0x431, 0x432, 0x433, 0x434, 0x435, 0x436, 0x437, 0x438, 0x43A, 0x43B, 0x43E, 0x43F, 0x441,
+    0x443, 0x444, 0x445, 0x446, 0x447, 0x448, 0x44A, 0x44B, 0x491, 0x456, 0x455, 0x45F, 0x4AB, 0xA651, 0x4B1, 0x627,
+    0x628, 0x62C, 0x62F, 0x648, 0x632, 0x62D, 0x637, 0x64A, 0x643, 0x644, 0x645, 0x646, 0x633, 0x639, 0x641, 0x635,
+    0x642, 0x631, 0x634, 0x62A, 0x62B, 0x62E, 0x630, 0x636, 0x638, 0x63A, 0x66E, 0x6BA, 0x6A1, 0x66F, 0x628, 0x62C,
+    0x647, 0x62D, 0x64A, 0x643, 0x644, 0x645, 0x646, 0x633, 0x639, 0x641, 0x635, 0x642, 0x634, 0x62A, 0x62B, 0x62E,
+    0x636, 0x63A, 0x62C, 0x62D, 0x64A, 0x644, 0x646, 0x633, 0x639, 0x635, 0x642, 0x634, 0x62E, 0x636, 0x63A, 0x6BA,
+    0x66F, 0x628, 0x62C, 0x647, 0x62D, 0x637, 0x64A, 0x643, 0x645, 0x646, 0x633, 0x639, 0x641, 0x635, 0x642, 0x634,
+    0x62A, 0x62B, 0x62E, 0x636, 0x638, 0x63A, 0x66E, 0x6A1, 0x627, 0x628, 0x62C, 0x62F, 0x647, 0x648, 0x632, 0x62D,
+    0x637, 0x64A, 0x644, 0x645, 0x646, 0x633, 0x639, 0x641, 0x635, 0x642, 0x631, 0x634, 0x62A, 0x62B, 0x62E, 0x630,
+    0x636, 0x638, 0x63A, 0x628, 0x62C, 0x62F, 0x648, 0x632, 0x62D, 0x637, 0x64A, 0x644, 0x645, 0x646, 0x633, 0x639,
+    0x641, 0x635, 0x642, 0x631, 0x634, 0x62A, 0x62B, 0x62E, 0x630, 0x636, 0x638, 0x63A, 0x30, 0x2E, 0x30, 0x2C,
+    0x31, 0x2C, 0x32, 0x2C, 0x33, 0x2C, 0x34, 0x2C, 0x35, 0x2C, 0x36, 0x2C, 0x37, 0x2C, 0x38, 0x2C,
+    0x39, 0x2C, 0x28, 0x41, 0x29, 0x28, 0x42, 0x29, 0x28, 0x43, 0x29, 0x28, 0x44, 0x29, 0x28, 0x45,
+    0x29, 0x28, 0x46, 0x29, 0x28, 0x47, 0x29, 0x28, 0x48, 0x29, 0x28, 0x49, 0x29, 0x28, 0x4A, 0x29,
+    0x28, 0x4B, 0x29, 0x28, 0x4C, 0x29, 0x28, 0x4D, 0x29, 0x28, 0x4E, 0x29, 0x28, 0x4F, 0x29, 0x28,
+    0x50, 0x29, 0x28, 0x51, 0x29, 0x28, 0x52, 0x29, 0x28, 0x53, 0x29, 0x28, 0x54, 0x29, 0x28, 0x55,
+    0x29, 0x28, 0x56, 0x29, 0x28, 0x57, 0x29, 0x28, 0x58, 0x29, 0x28, 0x59, 0x29, 0x28, 0x5A, 0x29,
+    0x3014, 0x53, 0x3015, 0x43, 0x52, 0x43, 0x44, 0x57, 0x5A, 0x41, 0x42, 0x43, 0x44, 0x45, 0x46, 0x47,
+    0x48, 0x49, 0x4A, 0x4B, 0x4C, 0x4D, 0x4E, 0x4F, 0x50, 0x51, 0x52, 0x53, 0x54, 0x55, 0x56, 0x57,
+    0x58, 0x59, 0x5A, 0x48, 0x56, 0x4D, 0x56, 0x53, 0x44, 0x53, 0x53, 0x50, 0x50, 0x56, 0x57, 0x43,
+    0x4D, 0x43, 0x4D, 0x44, 0x4D, 0x52, 0x44, 0x4A, 0x307B, 0x304B, 0x30B3, 0x30B3, 0x30B5, 0x624B, 0x5B57, 0x53CC,
+    0x30C6, 0x3099, 0x4E8C, 0x591A, 0x89E3, 0x5929, 0x4EA4, 0x6620, 0x7121, 0x6599, 0x524D, 0x5F8C, 0x518D, 0x65B0, 0x521D, 0x7D42,
+    0x751F, 0x8CA9, 0x58F0, 0x5439, 0x6F14, 0x6295, 0x6355, 0x4E00, 0x4E09, 0x904A, 0x5DE6, 0x4E2D, 0x53F3, 0x6307, 0x8D70, 0x6253,
+    0x7981, 0x7A7A, 0x5408, 0x6E80, 0x6709, 0x6708, 0x7533, 0x5272, 0x55B6, 0x914D, 0x3014, 0x672C, 0x3015, 0x3014, 0x4E09, 0x3015,
+    0x3014, 0x4E8C, 0x3015, 0x3014, 0x5B89, 0x3015, 0x3014, 0x70B9, 0x3015, 0x3014, 0x6253, 0x3015, 0x3014, 0x76D7, 0x3015, 0x3014,
+    0x52DD, 0x3015, 0x3014, 0x6557, 0x3015, 0x5F97, 0x53EF, 0x30, 0x31, 0x32, 0x33, 0x34, 0x35, 0x36, 0x37, 0x38,
+    0x39
+  ];
+  return table; // inlines to a constant memory offset
+}
+
+/** Canonical compositions of primary composites as `first, second, composite`. */
+@inline
+export function COMPOSITIONS(): i32[] {
+  const table: i32[] = [
+    0x3C, 0x338, 0x226E,
+    0x3D, 0x338, 0x2260,
+    0x3E, 0x338, 0x226F,
+    0x41, 0x300, 0xC0,
+    0x41, 0x301, 0xC1,
+    0x41, 0x302, 0xC2,
+    0x41, 0x303, 0xC3,
+    0x41, 0x304, 0x100,
+    0x41, 0x306, 0x102,
+    0x41, 0x307, 0x226,
+    0x41, 0x308, 0xC4,
+    0x41, 0x309, 0x1EA2,
+    0x41, 0x30A, 0xC5,
+    0x41, 0x30C, 0x1CD,
+    0x41, 0x30F, 0x200,
+    0x41, 0x311, 0x202,
+    0x41, 0x323, 0x1EA0,
+    0x41, 0x325, 0x1E00,
+    0x41, 0x328, 0x104,
+    0x42, 0x307, 0x1E02,
+    0x42, 0x323, 0x1E04,
+    0x42, 0x331, 0x1E06,
+    0x43, 0x301, 0x106,
+    0x43, 0x302, 0x108,
+    0x43, 0x307, 0x10A,
+    0x43, 0x30C, 0x10C,
+    0x43, 0x327, 0xC7,
+    0x44, 0x307, 0x1E0A,
+    0x44, 0x30C, 0x10E,
+    0x44, 0x323, 0x1E0C,
+    0x44, 0x327, 0x1E10,
+    0x44, 0x32D, 0x1E12,
+    0x44, 0x331, 0x1E0E,
+    0x45, 0x300, 0xC8,
+    0x45, 0x301, 0xC9,
+    0x45, 0x302, 0xCA,
+    0x45, 0x303, 0x1EBC,
+    0x45, 0x304, 0x112,
+    0x45, 0x306, 0x114,
+    0x45, 0x307, 0x116,
+    0x45, 0x308, 0xCB,
+    0x45, 0x309, 0x1EBA,
+    0x45, 0x30C, 0x11A,
+    0x45, 0x30F, 0x204,
+    0x45, 0x311, 0x206,
+    0x45, 0x323, 0x1EB8,
+    0x45, 0x327, 0x228,
+    0x45, 0x328, 0x118,
+    0x45, 0x32D, 0x1E18,
+    0x45, 0x330, 0x1E1A,
+    0x46, 0x307, 0x1E1E,
+    0x47, 0x301, 0x1F4,
+    0x47, 0x302, 0x11C,
+    0x47, 0x304, 0x1E20,
+    0x47, 0x306, 0x11E,
+    0x47, 0x307, 0x120,
+    0x47, 0x30C, 0x1E6,
+    0x47, 0x327, 0x122,
+    0x48, 0x302, 0x124,
+    0x48, 0x307, 0x1E22,
+    0x48, 0x308, 0x1E26,
+    0x48, 0x30C, 0x21E,
+    0x48, 0x323, 0x1E24,
+    0x48, 0x327, 0x1E28,
+    0x48, 0x32E, 0x1E2A,
+    0x49, 0x300, 0xCC,
+    0x49, 0x301, 0xCD,
+    0x49, 0x302, 0xCE,
+    0x49, 0x303, 0x128,
+    0x49, 0x304, 0x12A,
+    0x49, 0x306, 0x12C,
+    0x49, 0x307, 0x130,
+    0x49, 0x308, 0xCF,
+    0x49, 0x309, 0x1EC8,
+    0x49, 0x30C, 0x1CF,
+    0x49, 0x30F, 0x208,
+    0x49, 0x311, 0x20A,
+    0x49, 0x323, 0x1ECA,
+    0x49, 0x328, 0x12E,
+    0x49, 0x330, 0x1E2C,
+    0x4A, 0x302, 0x134,
+    0x4B, 0x301, 0x1E30,
+    0x4B, 0x30C, 0x1E8,
+    0x4B, 0x323, 0x1E32,
+    0x4B, 0x327, 0x136,
+    0x4B, 0x331, 0x1E34,
+    0x4C, 0x301, 0x139,
+    0x4C, 0x30C, 0x13D,
+    0x4C, 0x323, 0x1E36,
+    0x4C, 0x327, 0x13B,
+    0x4C, 0x32D, 0x1E3C,
+    0x4C, 0x331, 0x1E3A,
+    0x4D, 0x301, 0x1E3E,
+    0x4D, 0x307, 0x1E40,
+    0x4D, 0x323, 0x1E42,
+    0x4E, 0x300, 0x1F8,
+    0x4E, 0x301, 0x143,
+    0x4E, 0x303, 0xD1,
+    0x4E, 0x307, 0x1E44,
+    0x4E, 0x30C, 0x147,
+    0x4E, 0x323, 0x1E46,
+    0x4E, 0x327, 0x145,
+    0x4E, 0x32D, 0x1E4A,
+    0x4E, 0x331, 0x1E48,
+    0x4F, 0x300, 0xD2,
+    0x4F, 0x301, 0xD3,
+    0x4F, 0x302, 0xD4,
+    0x4F, 0x303, 0xD5,
+    0x4F, 0x304, 0x14C,
+    0x4F, 0x306, 0x14E,
+    0x4F, 0x307, 0x22E,
+    0x4F, 0x308, 0xD6,
+    0x4F, 0x309, 0x1ECE,
+    0x4F, 0x30B, 0x150,
+    0x4F, 0x30C, 0x1D1,
+    0x4F, 0x30F, 0x20C,
+    0x4F, 0x311, 0x20E,
+    0x4F, 0x31B, 0x1A0,
+    0x4F, 0x323, 0x1ECC,
+    0x4F, 0x328, 0x1EA,
+    0x50, 0x301, 0x1E54,
+    0x50, 0x307, 0x1E56,
+    0x52, 0x301, 0x154,
+    0x52, 0x307, 0x1E58,
+    0x52, 0x30C, 0x158,
+    0x52, 0x30F, 0x210,
+    0x52, 0x311, 0x212,
+    0x52, 0x323, 0x1E5A,
+    0x52, 0x327, 0x156,
+    0x52, 0x331, 0x1E5E,
+    0x53, 0x301, 0x15A,
+    0x53, 0x302, 0x15C,
+    0x53, 0x307, 0x1E60,
+    0x53, 0x30C, 0x160,
+    0x53, 0x323, 0x1E62,
+    0x53, 0x326, 0x218,
+    0x53, 0x327, 0x15E,
+    0x54, 0x307, 0x1E6A,
+    0x54, 0x30C, 0x164,
+    0x54, 0x323, 0x1E6C,
+    0x54, 0x326, 0x21A,
+    0x54, 0x327, 0x162,
+    0x54, 0x32D, 0x1E70,
+    0x54, 0x331, 0x1E6E,
+    0x55, 0x300, 0xD9,
+    0x55, 0x301, 0xDA,
+    0x55, 0x302, 0xDB,
+    0x55, 0x303, 0x168,
+    0x55, 0x304, 0x16A,
+    0x55, 0x306, 0x16C,
+    0x55, 0x308, 0xDC,
+    0x55, 0x309, 0x1EE6,
+    0x55, 0x30A, 0x16E,
+    0x55, 0x30B, 0x170,
+    0x55, 0x30C, 0x1D3,
+    0x55, 0x30F, 0x214,
+    0x55, 0x311, 0x216,
+    0x55, 0x31B, 0x1AF,
+    0x55, 0x323, 0x1EE4,
+    0x55, 0x324, 0x1E72,
+    0x55, 0x328, 0x172,
+    0x55, 0x32D, 0x1E76,
+    0x55, 0x330, 0x1E74,
+    0x56, 0x303, 0x1E7C,
+    0x56, 0x323, 0x1E7E,
+    0x57, 0x300, 0x1E80,
+    0x57, 0x301, 0x1E82,
+    0x57, 0x302, 0x174,
+    0x57, 0x307, 0x1E86,
+    0x57, 0x308, 0x1E84,
+    0x57, 0x323, 0x1E88,
+    0x58, 0x307, 0x1E8A,
+    0x58, 0x308, 0x1E8C,
+    0x59, 0x300, 0x1EF2,
+    0x59, 0x301, 0xDD,
+    0x59, 0x302, 0x176,
+    0x59, 0x303, 0x1EF8,
+    0x59, 0x304, 0x232,
+    0x59, 0x307, 0x1E8E,
+    0x59, 0x308, 0x178,
+    0x59, 0x309, 0x1EF6,
+    0x59, 0x323, 0x1EF4,
+    0x5A, 0x301, 0x179,
+    0x5A, 0x302, 0x1E90,
+    0x5A, 0x307, 0x17B,
+    0x5A, 0x30C, 0x17D,
+    0x5A, 0x323, 0x1E92,
+    0x5A, 0x331, 0x1E94,
+    0x61, 0x300, 0xE0,
+    0x61, 0x301, 0xE1,
+    0x61, 0x302, 0xE2,
+    0x61, 0x303, 0xE3,
+    0x61, 0x304, 0x101,
+    0x61, 0x306, 0x103,
+    0x61, 0x307, 0x227,
+    0x61, 0x308, 0xE4,
+    0x61, 0x309, 0x1EA3,
+    0x61, 0x30A, 0xE5,
+    0x61, 0x30C, 0x1CE,
+    0x61, 0x30F, 0x201,
+    0x61, 0x311, 0x203,
+    0x61, 0x323, 0x1EA1,
+    0x61, 0x325, 0x1E01,
+    0x61, 0x328, 0x105,
+    0x62, 0x307, 0x1E03,
+    0x62, 0x323, 0x1E05,
+    0x62, 0x331, 0x1E07,
+    0x63, 0x301, 0x107,
+    0x63, 0x302, 0x109,
+    0x63, 0x307, 0x10B,
+    0x63, 0x30C, 0x10D,
+    0x63, 0x327, 0xE7,
+    0x64, 0x307, 0x1E0B,
+    0x64, 0x30C, 0x10F,
+    0x64, 0x323, 0x1E0D,
+    0x64, 0x327, 0x1E11,
+    0x64, 0x32D, 0x1E13,
+    0x64, 0x331, 0x1E0F,
+    0x65, 0x300, 0xE8,
+    0x65, 0x301, 0xE9,
+    0x65, 0x302, 0xEA,
+    0x65, 0x303, 0x1EBD,
+    0x65, 0x304, 0x113,
+    0x65, 0x306, 0x115,
+    0x65, 0x307, 0x117,
+    0x65, 0x308, 0xEB,
+    0x65, 0x309, 0x1EBB,
+    0x65, 0x30C, 0x11B,
+    0x65, 0x30F, 0x205,
+    0x65, 0x311, 0x207,
+    0x65, 0x323, 0x1EB9,
+    0x65, 0x327, 0x229,
+    0x65, 0x328, 0x119,
+    0x65, 0x32D, 0x1E19,
+    0x65, 0x330, 0x1E1B,
+    0x66, 0x307, 0x1E1F,
+    0x67, 0x301, 0x1F5,
+    0x67, 0x302, 0x11D,
+    0x67, 0x304, 0x1E21,
+    0x67, 0x306, 0x11F,
+    0x67, 0x307, 0x121,
+    0x67, 0x30C, 0x1E7,
+    0x67, 0x327, 0x123,
+    0x68, 0x302, 0x125,
+    0x68, 0x307, 0x1E23,
+    0x68, 0x308, 0x1E27,
+    0x68, 0x30C, 0x21F,
+    0x68, 0x323, 0x1E25,
+    0x68, 0x327, 0x1E29,
+    0x68, 0x32E, 0x1E2B,
+    0x68, 0x331, 0x1E96,
+    0x69, 0x300, 0xEC,
+    0x69, 0x301, 0xED,
+    0x69, 0x302, 0xEE,
+    0x69, 0x303, 0x129,
+    0x69, 0x304, 0x12B,
+    0x69, 0x306, 0x12D,
+    0x69, 0x308, 0xEF,
+    0x69, 0x309, 0x1EC9,
+    0x69, 0x30C, 0x1D0,
+    0x69, 0x30F, 0x209,
+    0x69, 0x311, 0x20B,
+    0x69, 0x323, 0x1ECB,
+    0x69, 0x328, 0x12F,
+    0x69, 0x330, 0x1E2D,
+    0x6A, 0x302, 0x135,
+    0x6A, 0x30C, 0x1F0,
+    0x6B, 0x301, 0x1E31,
+    0x6B, 0x30C, 0x1E9,
+    0x6B, 0x323, 0x1E33,
+    0x6B, 0x327, 0x137,
+    0x6B, 0x331, 0x1E35,
+    0x6C, 0x301, 0x13A,
+    0x6C, 0x30C, 0x13E,
+    0x6C, 0x323, 0x1E37,
+    0x6C, 0x327, 0x13C,
+    0x6C, 0x32D, 0x1E3D,
+    0x6C, 0x331, 0x1E3B,
+    0x6D, 0x301, 0x1E3F,
+    0x6D, 0x307, 0x1E41,
+    0x6D, 0x323, 0x1E43,
+    0x6E, 0x300, 0x1F9,
+    0x6E, 0x301, 0x144,
+    0x6E, 0x303, 0xF1,
+    0x6E, 0x307, 0x1E45,
+    0x6E, 0x30C, 0x148,
+    0x6E, 0x323, 0x1E47,
+    0x6E, 0x327, 0x146,
+    0x6E, 0x32D, 0x1E4B,
+    0x6E, 0x331, 0x1E49,
+    0x6F, 0x300, 0xF2,
+    0x6F, 0x301, 0xF3,
+    0x6F, 0x302, 0xF4,
+    0x6F, 0x303, 0xF5,
+    0x6F, 0x304, 0x14D,
+    0x6F, 0x306, 0x14F,
+    0x6F, 0x307, 0x22F,
+    0x6F, 0x308, 0xF6,
+    0x6F, 0x309, 0x1ECF,
+    0x6F, 0x30B, 0x151,
+    0x6F, 0x30C, 0x1D2,
+    0x6F, 0x30F, 0x20D,
+    0x6F, 0x311, 0x20F,
+    0x6F, 0x31B, 0x1A1,
+    0x6F, 0x323, 0x1ECD,
+    0x6F, 0x328, 0x1EB,
+    0x70, 0x301, 0x1E55,
+    0x70, 0x307, 0x1E57,
+    0x72, 0x301, 0x155,
+    0x72, 0x307, 0x1E59,
+    0x72, 0x30C, 0x159,
+    0x72, 0x30F, 0x211,
+    0x72, 0x311, 0x213,
+    0x72, 0x323, 0x1E5B,
+    0x72, 0x327, 0x157,
+    0x72, 0x331, 0x1E5F,
+    0x73, 0x301, 0x15B,
+    0x73, 0x302, 0x15D,
+    0x73, 0x307, 0x1E61,
+    0x73, 0x30C, 0x161,
+    0x73, 0x323, 0x1E63,
+    0x73, 0x326, 0x219,
+    0x73, 0x327, 0x15F,
+    0x74, 0x307, 0x1E6B,
+    0x74, 0x308, 0x1E97,
+    0x74, 0x30C, 0x165,
+    0x74, 0x323, 0x1E6D,
+    0x74, 0x326, 0x21B,
+    0x74, 0x327, 0x163,
+    0x74, 0x32D, 0x1E71,
+    0x74, 0x331, 0x1E6F,
+    0x75, 0x300, 0xF9,
+    0x75, 0x301, 0xFA,
+    0x75, 0x302, 0xFB,
+    0x75, 0x303, 0x169,
+    0x75, 0x304, 0x16B,
+    0x75, 0x306, 0x16D,
+    0x75, 0x308, 0xFC,
+    0x75, 0x309, 0x1EE7,
+    0x75, 0x30A, 0x16F,
+    0x75, 0x30B, 0x171,
+    0x75, 0x30C, 0x1D4,
+    0x75, 0x30F, 0x215,
+    0x75, 0x311, 0x217,
+    0x75, 0x31B, 0x1B0,
+    0x75, 0x323, 0x1EE5,
+    0x75, 0x324, 0x1E73,
+    0x75, 0x328, 0x173,
+    0x75, 0x32D, 0x1E77,
+    0x75, 0x330, 0x1E75,
+    0x76, 0x303, 0x1E7D,
+    0x76, 0x323, 0x1E7F,
+    0x77, 0x300, 0x1E81,
+    0x77, 0x301, 0x1E83,
+    0x77, 0x302, 0x175,
+    0x77, 0x307, 0x1E87,
+    0x77, 0x308, 0x1E85,
+    0x77, 0x30A, 0x1E98,
+    0x77, 0x323, 0x1E89,
+    0x78, 0x307, 0x1E8B,
+    0x78, 0x308, 0x1E8D,
+    0x79, 0x300, 0x1EF3,
+    0x79, 0x301, 0xFD,
+    0x79, 0x302, 0x177,
+    0x79, 0x303, 0x1EF9,
+    0x79, 0x304, 0x233,
+    0x79, 0x307, 0x1E8F,
+    0x79, 0x308, 0xFF,
+    0x79, 0x309, 0x1EF7,
+    0x79, 0x30A, 0x1E99,
+    0x79, 0x323, 0x1EF5,
+    0x7A, 0x301, 0x17A,
+    0x7A, 0x302, 0x1E91,
+    0x7A, 0x307, 0x17C,
+    0x7A, 0x30C, 0x17E,
+    0x7A, 0x323, 0x1E93,
+    0x7A, 0x331, 0x1E95,
+    0xA8, 0x300, 0x1FED,
+    0xA8, 0x301, 0x385,
+    0xA8, 0x342, 0x1FC1,
+    0xC2, 0x300, 0x1EA6,
+    0xC2, 0x301, 0x1EA4,
+    0xC2, 0x303, 0x1EAA,
+    0xC2, 0x309, 0x1EA8,
+    0xC4, 0x304, 0x1DE,
+    0xC5, 0x301, 0x1FA,
+    0xC6, 0x301, 0x1FC,
+    0xC6, 0x304, 0x1E2,
+    0xC7, 0x301, 0x1E08,
+    0xCA, 0x300, 0x1EC0,
+    0xCA, 0x301, 0x1EBE,
+    0xCA, 0x303, 0x1EC4,
+    0xCA, 0x309, 0x1EC2,
+    0xCF, 0x301, 0x1E2E,
+    0xD4, 0x300, 0x1ED2,
+    0xD4, 0x301, 0x1ED0,
+    0xD4, 0x303, 0x1ED6,
+    0xD4, 0x309, 0x1ED4,
+    0xD5, 0x301, 0x1E4C,
+    0xD5, 0x304, 0x22C,
+    0xD5, 0x308, 0x1E4E,
+    0xD6, 0x304, 0x22A,
+    0xD8, 0x301, 0x1FE,
+    0xDC, 0x300, 0x1DB,
+    0xDC, 0x301, 0x1D7,
+    0xDC, 0x304, 0x1D5,
+    0xDC, 0x30C, 0x1D9,
+    0xE2, 0x300, 0x1EA7,
+    0xE2, 0x301, 0x1EA5,
+    0xE2, 0x303, 0x1EAB,
+    0xE2, 0x309, 0x1EA9,
+    0xE4, 0x304, 0x1DF,
+    0xE5, 0x301, 0x1FB,
+    0xE6, 0x301, 0x1FD,
+    0xE6, 0x304, 0x1E3,
+    0xE7, 0x301, 0x1E09,
+    0xEA, 0x300, 0x1EC1,
+    0xEA, 0x301, 0x1EBF,
+    0xEA, 0x303, 0x1EC5,
+    0xEA, 0x309, 0x1EC3,
+    0xEF, 0x301, 0x1E2F,
+    0xF4, 0x300, 0x1ED3,
+    0xF4, 0x301, 0x1ED1,
+    0xF4, 0x303, 0x1ED7,
+    0xF4, 0x309, 0x1ED5,
+    0xF5, 0x301, 0x1E4D,
+    0xF5, 0x304, 0x22D,
+    0xF5, 0x308, 0x1E4F,
+    0xF6, 0x304, 0x22B,
+    0xF8, 0x301, 0x1FF,
+    0xFC, 0x300, 0x1DC,
+    0xFC, 0x301, 0x1D8,
+    0xFC, 0x304, 0x1D6,
+    0xFC, 0x30C, 0x1DA,
+    0x102, 0x300, 0x1EB0,
+    0x102, 0x301, 0x1EAE,
+    0x102, 0x303, 0x1EB4,
+    0x102, 0x309, 0x1EB2,
+    0x103, 0x300, 0x1EB1,
+    0x103, 0x301, 0x1EAF,
+    0x103, 0x303, 0x1EB5,
+    0x103, 0x309, 0x1EB3,
+    0x112, 0x300, 0x1E14,
+    0x112, 0x301, 0x1E16,
+    0x113, 0x300, 0x1E15,
+    0x113, 0x301, 0x1E17,
+    0x14C, 0x300, 0x1E50,
+    0x14C, 0x301, 0x1E52,
+    0x14D, 0x300, 0x1E51,
+    0x14D, 0x301, 0x1E53,
+    0x15A, 0x307, 0x1E64,
+    0x15B, 0x307, 0x1E65,
+    0x160, 0x307, 0x1E66,
+    0x161, 0x307, 0x1E67,
+    0x168, 0x301, 0x1E78,
+    0x169, 0x301, 0x1E79,
+    0x16A, 0x308, 0x1E7A,
+    0x16B, 0x308, 0x1E7B,
+    0x17F, 0x307, 0x1E9B,
+    0x1A0, 0x300, 0x1EDC,
+    0x1A0, 0x301, 0x1EDA,
+    0x1A0, 0x303, 0x1EE0,
+    0x1A0, 0x309, 0x1EDE,
+    0x1A0, 0x323, 0x1EE2,
+    0x1A1, 0x300, 0x1EDD,
+    0x1A1, 0x301, 0x1EDB,
+    0x1A1, 0x303, 0x1EE1,
+    0x1A1, 0x309, 0x1EDF,
+    0x1A1, 0x323, 0x1EE3,
+    0x1AF, 0x300, 0x1EEA,
+    0x1AF, 0x301, 0x1EE8,
+    0x1AF, 0x303, 0x1EEE,
+    0x1AF, 0x309, 0x1EEC,
+    0x1AF, 0x323, 0x1EF0,
+    0x1B0, 0x300, 0x1EEB,
+    0x1B0, 0x301, 0x1EE9,
+    0x1B0, 0x303, 0x1EEF,
+    0x1B0, 0x309, 0x1EED,
+    0x1B0, 0x323, 0x1EF1,
+    0x1B7, 0x30C, 0x1EE,
+    0x1EA, 0x304, 0x1EC,
+    0x1EB, 0x304, 0x1ED,
+    0x226, 0x304, 0x1E0,
+    0x227, 0x304, 0x1E1,
+    0x228, 0x306, 0x1E1C,
+    0x229, 0x306, 0x1E1D,
+    0x22E, 0x304, 0x230,
+    0x22F, 0x304, 0x231,
+    0x292, 0x30C, 0x1EF,
+    0x391, 0x300, 0x1FBA,
+    0x391, 0x301, 0x386,
+    0x391, 0x304, 0x1FB9,
+    0x391, 0x306, 0x1FB8,
+    0x391, 0x313, 0x1F08,
+    0x391, 0x314, 0x1F09,
+    0x391, 0x345, 0x1FBC,
+    0x395, 0x300, 0x1FC8,
+    0x395, 0x301, 0x388,
+    0x395, 0x313, 0x1F18,
+    0x395, 0x314, 0x1F19,
+    0x397, 0x300, 0x1FCA,
+    0x397, 0x301, 0x389,
+    0x397, 0x313, 0x1F28,
+    0x397, 0x314, 0x1F29,
+    0x397, 0x345, 0x1FCC,
+    0x399, 0x300, 0x1FDA,
+    0x399, 0x301, 0x38A,
+    0x399, 0x304, 0x1FD9,
+    0x399, 0x306, 0x1FD8,
+    0x399, 0x308, 0x3AA,
+    0x399, 0x313, 0x1F38,
+    0x399, 0x314, 0x1F39,
+    0x39F, 0x300, 0x1FF8,
+    0x39F, 0x301, 0x38C,
+    0x39F, 0x313, 0x1F48,
+    0x39F, 0x314, 0x1F49,
+    0x3A1, 0x314, 0x1FEC,
+    0x3A5, 0x300, 0x1FEA,
+    0x3A5, 0x301, 0x38E,
+    0x3A5, 0x304, 0x1FE9,
+    0x3A5, 0x306, 0x1FE8,
+    0x3A5, 0x308, 0x3AB,
+    0x3A5, 0x314, 0x1F59,
+    0x3A9, 0x300, 0x1FFA,
+    0x3A9, 0x301, 0x38F,
+    0x3A9, 0x313, 0x1F68,
+    0x3A9, 0x314, 0x1F69,
+    0x3A9, 0x345, 0x1FFC,
+    0x3AC, 0x345, 0x1FB4,
+    0x3AE, 0x345, 0x1FC4,
+    0x3B1, 0x300, 0x1F70,
+    0x3B1, 0x301, 0x3AC,
+    0x3B1, 0x304, 0x1FB1,
+    0x3B1, 0x306, 0x1FB0,
+    0x3B1, 0x313, 0x1F00,
+    0x3B1, 0x314, 0x1F01,
+    0x3B1, 0x342, 0x1FB6,
+    0x3B1, 0x345, 0x1FB3,
+    0x3B5, 0x300, 0x1F72,
+    0x3B5, 0x301, 0x3AD,
+    0x3B5, 0x313, 0x1F10,
+    0x3B5, 0x314, 0x1F11,
+    0x3B7, 0x300, 0x1F74,
+    0x3B7, 0x301, 0x3AE,
+    0x3B7, 0x313, 0x1F20,
+    0x3B7, 0x314, 0x1F21,
+    0x3B7, 0x342, 0x1FC6,
+    0x3B7, 0x345, 0x1FC3,
+    0x3B9, 0x300, 0x1F76,
+    0x3B9, 0x301, 0x3AF,
+    0x3B9, 0x304, 0x1FD1,
+    0x3B9, 0x306, 0x1FD0,
+    0x3B9, 0x308, 0x3CA,
+    0x3B9, 0x313, 0x1F30,
+    0x3B9, 0x314, 0x1F31,
+    0x3B9, 0x342, 0x1FD6,
+    0x3BF, 0x300, 0x1F78,
+    0x3BF, 0x301, 0x3CC,
+    0x3BF, 0x313, 0x1F40,
+    0x3BF, 0x314, 0x1F41,
+    0x3C1, 0x313, 0x1FE4,
+    0x3C1, 0x314, 0x1FE5,
+    0x3C5, 0x300, 0x1F7A,
+    0x3C5, 0x301, 0x3CD,
+    0x3C5, 0x304, 0x1FE1,
+    0x3C5, 0x306, 0x1FE0,
+    0x3C5, 0x308, 0x3CB,
+    0x3C5, 0x313, 0x1F50,
+    0x3C5, 0x314, 0x1F51,
+    0x3C5, 0x342, 0x1FE6,
+    0x3C9, 0x300, 0x1F7C,
+    0x3C9, 0x301, 0x3CE,
+    0x3C9, 0x313, 0x1F60,
+    0x3C9, 0x314, 0x1F61,
+    0x3C9, 0x342, 0x1FF6,
+    0x3C9, 0x345, 0x1FF3,
+    0x3CA, 0x300, 0x1FD2,
+    0x3CA, 0x301, 0x390,
+    0x3CA, 0x342, 0x1FD7,
+    0x3CB, 0x300, 0x1FE2,
+    0x3CB, 0x301, 0x3B0,
+    0x3CB, 0x342, 0x1FE7,
+    0x3CE, 0x345, 0x1FF4,
+    0x3D2, 0x301, 0x3D3,
+    0x3D2, 0x308, 0x3D4,
+    0x406, 0x308, 0x407,
+    0x410, 0x306, 0x4D0,
+    0x410, 0x308, 0x4D2,
+    0x413, 0x301, 0x403,
+    0x415, 0x300, 0x400,
+    0x415, 0x306, 0x4D6,
+    0x415, 0x308, 0x401,
+    0x416, 0x306, 0x4C1,
+    0x416, 0x308, 0x4DC,
+    0x417, 0x308, 0x4DE,
+    0x418, 0x300, 0x40D,
+    0x418, 0x304, 0x4E2,
+    0x418, 0x306, 0x419,
+    0x418, 0x308, 0x4E4,
+    0x41A, 0x301, 0x40C,
+    0x41E, 0x308, 0x4E6,
+    0x423, 0x304, 0x4EE,
+    0x423, 0x306, 0x40E,
+    0x423, 0x308, 0x4F0,
+    0x423, 0x30B, 0x4F2,
+    0x427, 0x308, 0x4F4,
+    0x42B, 0x308, 0x4F8,
+    0x42D, 0x308, 0x4EC,
+    0x430, 0x306, 0x4D1,
+    0x430, 0x308, 0x4D3,
+    0x433, 0x301, 0x453,
+    0x435, 0x300, 0x450,
+    0x435, 0x306, 0x4D7,
+    0x435, 0x308, 0x451,
+    0x436, 0x306, 0x4C2,
+    0x436, 0x308, 0x4DD,
+    0x437, 0x308, 0x4DF,
+    0x438, 0x300, 0x45D,
+    0x438, 0x304, 0x4E3,
+    0x438, 0x306, 0x439,
+    0x438, 0x308, 0x4E5,
+    0x43A, 0x301, 0x45C,
+    0x43E, 0x308, 0x4E7,
+    0x443, 0x304, 0x4EF,
+    0x443, 0x306, 0x45E,
+    0x443, 0x308, 0x4F1,
+    0x443, 0x30B, 0x4F3,
+    0x447, 0x308, 0x4F5,
+    0x44B, 0x308, 0x4F9,
+    0x44D, 0x308, 0x4ED,
+    0x456, 0x308, 0x457,
+    0x474, 0x30F, 0x476,
+    0x475, 0x30F, 0x477,
+    0x4D8, 0x308, 0x4DA,
+    0x4D9, 0x308, 0x4DB,
+    0x4E8, 0x308, 0x4EA,
+    0x4E9, 0x308, 0x4EB,
+    0x627, 0x653, 0x622,
+    0x627, 0x654, 0x623,
+    0x627, 0x655, 0x625,
+    0x648, 0x654, 0x624,
+    0x64A, 0x654, 0x626,
+    0x6C1, 0x654, 0x6C2,
+    0x6D2, 0x654, 0x6D3,
+    0x6D5, 0x654, 0x6C0,
+    0x928, 0x93C, 0x929,
+    0x930, 0x93C, 0x931,
+    0x933, 0x93C, 0x934,
+    0x9C7, 0x9BE, 0x9CB,
+    0x9C7, 0x9D7, 0x9CC,
+    0xB47, 0xB3E, 0xB4B,
+    0xB47, 0xB56, 0xB48,
+    0xB47, 0xB57, 0xB4C,
+    0xB92, 0xBD7, 0xB94,
+    0xBC6, 0xBBE, 0xBCA,
+    0xBC6, 0xBD7, 0xBCC,
+    0xBC7, 0xBBE, 0xBCB,
+    0xC46, 0xC56, 0xC48,
+    0xCBF, 0xCD5, 0xCC0,
+    0xCC6, 0xCC2, 0xCCA,
+    0xCC6, 0xCD5, 0xCC7,
+    0xCC6, 0xCD6, 0xCC8,
+    0xCCA, 0xCD5, 0xCCB,
+    0xD46, 0xD3E, 0xD4A,
+    0xD46, 0xD57, 0xD4C,
+    0xD47, 0xD3E, 0xD4B,
+    0xDD9, 0xDCA, 0xDDA,
+    0xDD9, 0xDCF, 0xDDC,
+    0xDD9, 0xDDF, 0xDDE,
+    0xDDC, 0xDCA, 0xDDD,
+    0x1025, 0x102E, 0x1026,
+    0x1B05, 0x1B35, 0x1B06,
+    0x1B07, 0x1B35, 0x1B08,
+    0x1B09, 0x1B35, 0x1B0A,
+    0x1B0B, 0x1B35, 0x1B0C,
+    0x1B0D, 0x1B35, 0x1B0E,
+    0x1B11, 0x1B35, 0x1B12,
+    0x1B3A, 0x1B35, 0x1B3B,
+    0x1B3C, 0x1B35, 0x1B3D,
+    0x1B3E, 0x1B35, 0x1B40,
+    0x1B3F, 0x1B35, 0x1B41,
+    0x1B42, 0x1B35, 0x1B43,
+    0x1E36, 0x304, 0x1E38,
+    0x1E37, 0x304, 0x1E39,
+    0x1E5A, 0x304, 0x1E5C,
+    0x1E5B, 0x304, 0x1E5D,
+    0x1E62, 0x307, 0x1E68,
+    0x1E63, 0x307, 0x1E69,
+    0x1EA0, 0x302, 0x1EAC,
+    0x1EA0, 0x306, 0x1EB6,
+    0x1EA1, 0x302, 0x1EAD,
+    0x1EA1, 0x306, 0x1EB7,
+    0x1EB8, 0x302, 0x1EC6,
+    0x1EB9, 0x302, 0x1EC7,
+    0x1ECC, 0x302, 0x1ED8,
+    0x1ECD, 0x302, 0x1ED9,
+    0x1F00, 0x300, 0x1F02,
+    0x1F00, 0x301, 0x1F04,
+    0x1F00, 0x342, 0x1F06,
+    0x1F00, 0x345, 0x1F80,
+    0x1F01, 0x300, 0x1F03,
+    0x1F01, 0x301, 0x1F05,
+    0x1F01, 0x342, 0x1F07,
+    0x1F01, 0x345, 0x1F81,
+    0x1F02, 0x345, 0x1F82,
+    0x1F03, 0x345, 0x1F83,
+    0x1F04, 0x345, 0x1F84,
+    0x1F05, 0x345, 0x1F85,
+    0x1F06, 0x345, 0x1F86,
+    0x1F07, 0x345, 0x1F87,
+    0x1F08, 0x300, 0x1F0A,
+    0x1F08, 0x301, 0x1F0C,
+    0x1F08, 0x342, 0x1F0E,
+    0x1F08, 0x345, 0x1F88,
+    0x1F09, 0x300, 0x1F0B,
+    0x1F09, 0x301, 0x1F0D,
+    0x1F09, 0x342, 0x1F0F,
+    0x1F09, 0x345, 0x1F89,
+    0x1F0A, 0x345, 0x1F8A,
+    0x1F0B, 0x345, 0x1F8B,
+    0x1F0C, 0x345, 0x1F8C,
+    0x1F0D, 0x345, 0x1F8D,
+    0x1F0E, 0x345, 0x1F8E,
+    0x1F0F, 0x345, 0x1F8F,
+    0x1F10, 0x300, 0x1F12,
+    0x1F10, 0x301, 0x1F14,
+    0x1F11, 0x300, 0x1F13,
+    0x1F11, 0x301, 0x1F15,
+    0x1F18, 0x300, 0x1F1A,
+    0x1F18, 0x301, 0x1F1C,
+    0x1F19, 0x300, 0x1F1B,
+    0x1F19, 0x301, 0x1F1D,
+    0x1F20, 0x300, 0x1F22,
+    0x1F20, 0x301, 0x1F24,
+    0x1F20, 0x342, 0x1F26,
+    0x1F20, 0x345, 0x1F90,
+    0x1F21, 0x300, 0x1F23,
+    0x1F21, 0x301, 0x1F25,
+    0x1F21, 0x342, 0x1F27,
+    0x1F21, 0x345, 0x1F91,
+    0x1F22, 0x345, 0x1F92,
+    0x1F23, 0x345, 0x1F93,
+    0x1F24, 0x345, 0x1F94,
+    0x1F25, 0x345, 0x1F95,
+    0x1F26, 0x345, 0x1F96,
+    0x1F27, 0x345, 0x1F97,
+    0x1F28, 0x300, 0x1F2A,
+    0x1F28, 0x301, 0x1F2C,
+    0x1F28, 0x342, 0x1F2E,
+    0x1F28, 0x345, 0x1F98,
+    0x1F29, 0x300, 0x1F2B,
+    0x1F29, 0x301, 0x1F2D,
+    0x1F29, 0x342, 0x1F2F,
+    0x1F29, 0x345, 0x1F99,
+    0x1F2A, 0x345, 0x1F9A,
+    0x1F2B, 0x345, 0x1F9B,
+    0x1F2C, 0x345, 0x1F9C,
+    0x1F2D, 0x345, 0x1F9D,
+    0x1F2E, 0x345, 0x1F9E,
+    0x1F2F, 0x345, 0x1F9F,
+    0x1F30, 0x300, 0x1F32,
+    0x1F30, 0x301, 0x1F34,
+    0x1F30, 0x342, 0x1F36,
+    0x1F31, 0x300, 0x1F33,
+    0x1F31, 0x301, 0x1F35,
+    0x1F31, 0x342, 0x1F37,
+    0x1F38, 0x300, 0x1F3A,
+    0x1F38, 0x301, 0x1F3C,
+    0x1F38, 0x342, 0x1F3E,
+    0x1F39, 0x300, 0x1F3B,
+    0x1F39, 0x301, 0x1F3D,
+    0x1F39, 0x342, 0x1F3F,
+    0x1F40, 0x300, 0x1F42,
+    0x1F40, 0x301, 0x1F44,
+    0x1F41, 0x300, 0x1F43,
+    0x1F41, 0x301, 0x1F45,
+    0x1F48, 0x300, 0x1F4A,
+    0x1F48, 0x301, 0x1F4C,
+    0x1F49, 0x300, 0x1F4B,
+    0x1F49, 0x301, 0x1F4D,
+    0x1F50, 0x300, 0x1F52,
+    0x1F50, 0x301, 0x1F54,
+    0x1F50, 0x342, 0x1F56,
+    0x1F51, 0x300, 0x1F53,
+    0x1F51, 0x301, 0x1F55,
+    0x1F51, 0x342, 0x1F57,
+    0x1F59, 0x300, 0x1F5B,
+    0x1F59, 0x301, 0x1F5D,
+    0x1F59, 0x342, 0x1F5F,
+    0x1F60, 0x300, 0x1F62,
+    0x1F60, 0x301, 0x1F64,
+    0x1F60, 0x342, 0x1F66,
+    0x1F60, 0x345, 0x1FA0,
+    0x1F61, 0x300, 0x1F63,
+    0x1F61, 0x301, 0x1F65,
+    0x1F61, 0x342, 0x1F67,
+    0x1F61, 0x345, 0x1FA1,
+    0x1F62, 0x345, 0x1FA2,
+    0x1F63, 0x345, 0x1FA3,
+    0x1F64, 0x345, 0x1FA4,
+    0x1F65, 0x345, 0x1FA5,
+    0x1F66, 0x345, 0x1FA6,
+    0x1F67, 0x345, 0x1FA7,
+    0x1F68, 0x300, 0x1F6A,
+    0x1F68, 0x301, 0x1F6C,
+    0x1F68, 0x342, 0x1F6E,
+    0x1F68, 0x345, 0x1FA8,
+    0x1F69, 0x300, 0x1F6B,
+    0x1F69, 0x301, 0x1F6D,
+    0x1F69, 0x342, 0x1F6F,
+    0x1F69, 0x345, 0x1FA9,
+    0x1F6A, 0x345, 0x1FAA,
+    0x1F6B, 0x345, 0x1FAB,
+    0x1F6C, 0x345, 0x1FAC,
+    0x1F6D, 0x345, 0x1FAD,
+    0x1F6E, 0x345, 0x1FAE,
+    0x1F6F, 0x345, 0x1FAF,
+    0x1F70, 0x345, 0x1FB2,
+    0x1F74, 0x345, 0x1FC2,
+    0x1F7C, 0x345, 0x1FF2,
+    0x1FB6, 0x345, 0x1FB7,
+    0x1FBF, 0x300, 0x1FCD,
+    0x1FBF, 0x301, 0x1FCE,
+    0x1FBF, 0x342, 0x1FCF,
+    0x1FC6, 0x345, 0x1FC7,
+    0x1FF6, 0x345, 0x1FF7,
+    0x1FFE, 0x300, 0x1FDD,
+    0x1FFE, 0x301, 0x1FDE,
+    0x1FFE, 0x342, 0x1FDF,
+    0x2190, 0x338, 0x219A,
+    0x2192, 0x338, 0x219B,
+    0x2194, 0x338, 0x21AE,
+    0x21D0, 0x338, 0x21CD,
+    0x21D2, 0x338, 0x21CF,
+    0x21D4, 0x338, 0x21CE,
+    0x2203, 0x338, 0x2204,
+    0x2208, 0x338, 0x2209,
+    0x220B, 0x338, 0x220C,
+    0x2223, 0x338, 0x2224,
+    0x2225, 0x338, 0x2226,
+    0x223C, 0x338, 0x2241,
+    0x2243, 0x338, 0x2244,
+    0x2245, 0x338, 0x2247,
+    0x2248, 0x338, 0x2249,
+    0x224D, 0x338, 0x226D,
+    0x2261, 0x338, 0x2262,
+    0x2264, 0x338, 0x2270,
+    0x2265, 0x338, 0x2271,
+    0x2272, 0x338, 0x2274,
+    0x2273, 0x338, 0x2275,
+    0x2276, 0x338, 0x2278,
+    0x2277, 0x338, 0x2279,
+    0x227A, 0x338, 0x2280,
+    0x227B, 0x338, 0x2281,
+    0x227C, 0x338, 0x22E0,
+    0x227D, 0x338, 0x22E1,
+    0x2282, 0x338, 0x2284,
+    0x2283, 0x338, 0x2285,
+    0x2286, 0x338, 0x2288,
+    0x2287, 0x338, 0x2289,
+    0x2291, 0x338, 0x22E2,
+    0x2292, 0x338, 0x22E3,
+    0x22A2, 0x338, 0x22AC,
+    0x22A8, 0x338, 0x22AD,
+    0x22A9, 0x338, 0x22AE,
+    0x22AB, 0x338, 0x22AF,
+    0x22B2, 0x338, 0x22EA,
+    0x22B3, 0x338, 0x22EB,
+    0x22B4, 0x338, 0x22EC,
+    0x22B5, 0x338, 0x22ED,
+    0x3046, 0x3099, 0x3094,
+    0x304B, 0x3099, 0x304C,
+    0x304D, 0x3099, 0x304E,
+    0x304F, 0x3099, 0x3050,
+    0x3051, 0x3099, 0x3052,
+    0x3053, 0x3099, 0x3054,
+    0x3055, 0x3099, 0x3056,
+    0x3057, 0x3099, 0x3058,
+    0x3059, 0x3099, 0x305A,
+    0x305B, 0x3099, 0x305C,
+    0x305D, 0x3099, 0x305E,
+    0x305F, 0x3099, 0x3060,
+    0x3061, 0x3099, 0x3062,
+    0x3064, 0x3099, 0x3065,
+    0x3066, 0x3099, 0x3067,
+    0x3068, 0x3099, 0x3069,
+    0x306F, 0x3099, 0x3070,
+    0x306F, 0x309A, 0x3071,
+    0x3072, 0x3099, 0x3073,
+    0x3072, 0x309A, 0x3074,
+    0x3075, 0x3099, 0x3076,
+    0x3075, 0x309A, 0x3077,
+    0x3078, 0x3099, 0x3079,
+    0x3078, 0x309A, 0x307A,
+    0x307B, 0x3099, 0x307C,
+    0x307B, 0x309A, 0x307D,
+    0x309D, 0x3099, 0x309E,
+    0x30A6, 0x3099, 0x30F4,
+    0x30AB, 0x3099, 0x30AC,
+    0x30AD, 0x3099, 0x30AE,
+    0x30AF, 0x3099, 0x30B0,
+    0x30B1, 0x3099, 0x30B2,
+    0x30B3, 0x3099, 0x30B4,
+    0x30B5, 0x3099, 0x30B6,
+    0x30B7, 0x3099, 0x30B8,
+    0x30B9, 0x3099, 0x30BA,
+    0x30BB, 0x3099, 0x30BC,
+    0x30BD, 0x3099, 0x30BE,
+    0x30BF, 0x3099, 0x30C0,
+    0x30C1, 0x3099, 0x30C2,
+    0x30C4, 0x3099, 0x30C5,
+    0x30C6, 0x3099, 0x30C7,
+    0x30C8, 0x3099, 0x30C9,
+    0x30CF, 0x3099, 0x30D0,
+    0x30CF, 0x309A, 0x30D1,
+    0x30D2, 0x3099, 0x30D3,
+    0x30D2, 0x309A, 0x30D4,
+    0x30D5, 0x3099, 0x30D6,
+    0x30D5, 0x309A, 0x30D7,
+    0x30D8, 0x3099, 0x30D9,
+    0x30D8, 0x309A, 0x30DA,
+    0x30DB, 0x3099, 0x30DC,
+    0x30DB, 0x309A, 0x30DD,
+    0x30EF, 0x3099, 0x30F7,
+    0x30F0, 0x3099, 0x30F8,
+    0x30F1, 0x3099, 0x30F9,
+    0x30F2, 0x3099, 0x30FA,
+    0x30FD, 0x3099, 0x30FE,
+    0x105D2, 0x307, 0x105C9,
+    0x105DA, 0x307, 0x105E4,
+    0x11099, 0x110BA, 0x1109A,
+    0x1109B, 0x110BA, 0x1109C,
+    0x110A5, 0x110BA, 0x110AB,
+    0x11131, 0x11127, 0x1112E,
+    0x11132, 0x11127, 0x1112F,
+    0x11347, 0x1133E, 0x1134B,
+    0x11347, 0x11357, 0x1134C,
+    0x11382, 0x113C9, 0x11383,
+    0x11384, 0x113BB, 0x11385,
+    0x1138B, 0x113C2, 0x1138E,
+    0x11390, 0x113C9, 0x11391,
+    0x113C2, 0x113B8, 0x113C7,
+    0x113C2, 0x113C2, 0x113C5,
+    0x113C2, 0x113C9, 0x113C8,
+    0x114B9, 0x114B0, 0x114BC,
+    0x114B9, 0x114BA, 0x114BB,
+    0x114B9, 0x114BD, 0x114BE,
+    0x115B8, 0x115AF, 0x115BA,
+    0x115B9, 0x115AF, 0x115BB,
+    0x11935, 0x11930, 0x11938,
+    0x1611E, 0x1611E, 0x16121,
+    0x1611E, 0x1611F, 0x16123,
+    0x1611E, 0x16120, 0x16125,
+    0x1611E, 0x16129, 0x16122,
+    0x16121, 0x1611F, 0x16126,
+    0x16121, 0x16120, 0x16128,
+    0x16122, 0x1611F, 0x16127,
+    0x16129, 0x1611F, 0x16124,
+    0x16D63, 0x16D67, 0x16D69,
+    0x16D67, 0x16D67, 0x16D68,
+    0x16D69, 0x16D67, 0x16D6A
+  ];
+  return table; // inlines to a constant memory offset
+}
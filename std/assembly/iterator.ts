@@ -1,4 +1,21 @@
-// export abstract class Iterator<T> {
-//   abstract get done(): bool;
-//   abstract next(): T;
-// }
+// Unlike in JavaScript, where `next()` returns an object indicating whether iteration is done, an
+// iterator tells whether it is done upfront, so obtaining a value does not require an allocation.
+
+/** An iterator over values of type `T`. */
+export abstract class Iterator<T> {
+
+  /** Whether all values have been obtained. Must be checked before obtaining the next value. */
+  abstract get done(): bool;
+
+  /** Obtains the next value. */
+  abstract next(): T;
+}
+
+/** An iterator that can also be iterated over, yielding its remaining values. */
+export abstract class IterableIterator<T> extends Iterator<T> {
+
+  // called by `for...of` to obtain the iterator of an iterable
+  __iterator(): IterableIterator<T> {
+    return this;
+  }
+}
@@ -0,0 +1,577 @@
+import {
+  HEADER_SIZE,
+  allocateUnsafe,
+  compareUnsafe,
+  CharCode
+} from "./internal/string";
+
+import {
+  dtoa
+} from "./internal/dtoa";
+
+export const enum JSONType {
+  NULL,
+  BOOL,
+  NUMBER,
+  STRING,
+  ARRAY,
+  OBJECT
+}
+
+export const enum JSONToken {
+  END,
+  BEGIN_OBJECT,
+  END_OBJECT,
+  BEGIN_ARRAY,
+  END_ARRAY,
+  COLON,
+  COMMA,
+  STRING,
+  NUMBER,
+  TRUE,
+  FALSE,
+  NULL
+}
+
+/** A dynamically typed JSON value backed by an `Array` respectively a `Map` if structured. */
+export class JSONValue {
+
+  readonly type: JSONType;
+  private number_: f64 = 0;
+  private string_: string | null = null;
+  private array_: Array<JSONValue> | null = null;
+  private object_: Map<string,JSONValue> | null = null;
+
+  constructor(type: JSONType = JSONType.NULL) {
+    this.type = type;
+  }
+
+  static createNull(): JSONValue {
+    return new JSONValue(JSONType.NULL);
+  }
+
+  static createBool(value: bool): JSONValue {
+    var result = new JSONValue(JSONType.BOOL);
+    result.number_ = <f64>value;
+    return result;
+  }
+
+  static createNumber(value: f64): JSONValue {
+    var result = new JSONValue(JSONType.NUMBER);
+    result.number_ = value;
+    return result;
+  }
+
+  static createString(value: string): JSONValue {
+    var result = new JSONValue(JSONType.STRING);
+    result.string_ = value;
+    return result;
+  }
+
+  static createArray(): JSONValue {
+    var result = new JSONValue(JSONType.ARRAY);
+    result.array_ = new Array<JSONValue>();
+    return result;
+  }
+
+  static createObject(): JSONValue {
+    var result = new JSONValue(JSONType.OBJECT);
+    result.object_ = new Map<string,JSONValue>();
+    return result;
+  }
+
+  @inline
+  get isNull(): bool {
+    return this.type == JSONType.NULL;
+  }
+
+  asBool(): bool {
+    if (this.type != JSONType.BOOL) throw new TypeError("JSON value is not a boolean");
+    return this.number_ != 0;
+  }
+
+  asNumber(): f64 {
+    if (this.type != JSONType.NUMBER) throw new TypeError("JSON value is not a number");
+    return this.number_;
+  }
+
+  asString(): string {
+    if (this.type != JSONType.STRING) throw new TypeError("JSON value is not a string");
+    return <string>this.string_;
+  }
+
+  asArray(): Array<JSONValue> {
+    if (this.type != JSONType.ARRAY) throw new TypeError("JSON value is not an array");
+    return <Array<JSONValue>>this.array_;
+  }
+
+  asObject(): Map<string,JSONValue> {
+    if (this.type != JSONType.OBJECT) throw new TypeError("JSON value is not an object");
+    return <Map<string,JSONValue>>this.object_;
+  }
+
+  get length(): i32 {
+    return this.asArray().length;
+  }
+
+  at(index: i32): JSONValue {
+    var array = this.asArray();
+    return array[index];
+  }
+
+  push(value: JSONValue): JSONValue {
+    this.asArray().push(value);
+    return this;
+  }
+
+  has(key: string): bool {
+    return this.asObject().has(key);
+  }
+
+  // returns `null` if there is no such key
+  get(key: string): JSONValue | null {
+    var object = this.asObject();
+    return object.has(key) ? object.get(key) : null;
+  }
+
+  set(key: string, value: JSONValue): JSONValue {
+    this.asObject().set(key, value);
+    return this;
+  }
+
+  toString(): string {
+    return JSON.stringify(this);
+  }
+}
+
+/** Splits JSON text into tokens, one at a time. */
+export class JSONTokenizer {
+
+  readonly text: string;
+  private pos: i32 = 0;
+
+  /** Value of the last `STRING` token. */
+  stringValue: string = "";
+  /** Value of the last `NUMBER` token. */
+  numberValue: f64 = 0;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+
+  @inline
+  get position(): i32 {
+    return this.pos;
+  }
+
+  next(): JSONToken {
+    var text = this.text;
+    var end = text.length;
+    var pos = this.pos;
+    var code = 0;
+    while (pos < end) {
+      code = <i32>load<u16>(changetype<usize>(text) + (<usize>pos << 1), HEADER_SIZE);
+      if (
+        code != CharCode.SPACE && code != CharCode.TAB &&
+        code != CharCode.LINEFEED && code != CharCode.CARRIAGERETURN
+      ) break;
+      ++pos;
+    }
+    this.pos = pos + 1;
+    if (pos >= end) {
+      this.pos = end;
+      return JSONToken.END;
+    }
+    switch (code) {
+      case CharCode.OPENBRACE: return JSONToken.BEGIN_OBJECT;
+      case CharCode.CLOSEBRACE: return JSONToken.END_OBJECT;
+      case CharCode.OPENBRACKET: return JSONToken.BEGIN_ARRAY;
+      case CharCode.CLOSEBRACKET: return JSONToken.END_ARRAY;
+      case CharCode.COLON: return JSONToken.COLON;
+      case CharCode.COMMA: return JSONToken.COMMA;
+      case CharCode.DOUBLEQUOTE: {
+        this.pos = this.readString(pos + 1);
+        return JSONToken.STRING;
+      }
+      case CharCode.t: {
+        this.pos = this.expectLiteral(pos, "true");
+        return JSONToken.TRUE;
+      }
+      case CharCode.f: {
+        this.pos = this.expectLiteral(pos, "false");
+        return JSONToken.FALSE;
+      }
+      case CharCode.n: {
+        this.pos = this.expectLiteral(pos, "null");
+        return JSONToken.NULL;
+      }
+    }
+    if (code == CharCode.MINUS || <u32>(code - CharCode._0) < 10) {
+      this.pos = this.readNumber(pos);
+      return JSONToken.NUMBER;
+    }
+    throw new SyntaxError("Unexpected token in JSON");
+  }
+
+  private expectLiteral(pos: i32, literal: string): i32 {
+    var length = literal.length;
+    if (pos + length > this.text.length || compareUnsafe(this.text, pos, literal, 0, length) != 0) {
+      throw new SyntaxError("Unexpected token in JSON");
+    }
+    return pos + length;
+  }
+
+  // reads the string starting after the opening quote, returning the position after the closing one
+  private readString(start: i32): i32 {
+    var text = this.text;
+    var end = text.length;
+    var ptr = changetype<usize>(text);
+
+    // validate and measure first
+    var length = 0;
+    var pos = start;
+    var hasEscapes = false;
+    while (true) {
+      if (pos >= end) throw new SyntaxError("Unterminated string in JSON");
+      let code = <i32>load<u16>(ptr + (<usize>pos << 1), HEADER_SIZE);
+      if (code == CharCode.DOUBLEQUOTE) break;
+      if (code < 0x20) throw new SyntaxError("Bad control character in string literal in JSON");
+      if (code == CharCode.BACKSLASH) {
+        if (++pos >= end) throw new SyntaxError("Unterminated string in JSON");
+        code = <i32>load<u16>(ptr + (<usize>pos << 1), HEADER_SIZE);
+        if (code == CharCode.u) {
+          if (pos + 4 >= end) throw new SyntaxError("Bad Unicode escape in JSON");
+          for (let i = 1; i <= 4; ++i) {
+            if (hexValue(<i32>load<u16>(ptr + (<usize>(pos + i) << 1), HEADER_SIZE)) < 0) {
+              throw new SyntaxError("Bad Unicode escape in JSON");
+            }
+          }
+          pos += 4;
+        } else if (unescapeChar(code) < 0) {
+          throw new SyntaxError("Bad escaped character in JSON");
+        }
+        hasEscapes = true;
+      }
+      ++pos;
+      ++length;
+    }
+    if (!hasEscapes) {
+      this.stringValue = text.substring(start, pos);
+      return pos + 1;
+    }
+
+    // then unescape into a string of the exact length
+    var result = allocateUnsafe(length);
+    var offset: usize = 0;
+    for (let i = start; i < pos; ++i) {
+      let code = <i32>load<u16>(ptr + (<usize>i << 1), HEADER_SIZE);
+      if (code == CharCode.BACKSLASH) {
+        code = <i32>load<u16>(ptr + (<usize>++i << 1), HEADER_SIZE);
+        if (code == CharCode.u) {
+          code = 0;
+          for (let j = 0; j < 4; ++j) {
+            code = (code << 4) | hexValue(<i32>load<u16>(ptr + (<usize>++i << 1), HEADER_SIZE));
+          }
+        } else {
+          code = unescapeChar(code);
+        }
+      }
+      store<u16>(changetype<usize>(result) + offset, <u16>code, HEADER_SIZE);
+      offset += 2;
+    }
+    this.stringValue = changetype<string>(result);
+    return pos + 1;
+  }
+
+  // reads the number starting at the specified position, returning the position after it
+  private readNumber(start: i32): i32 {
+    var text = this.text;
+    var end = text.length;
+    var ptr = changetype<usize>(text);
+    var pos = start;
+    var code = <i32>load<u16>(ptr + (<usize>pos << 1), HEADER_SIZE);
+
+    var negative = code == CharCode.MINUS;
+    if (negative) {
+      if (++pos >= end) throw new SyntaxError("No number after minus sign in JSON");
+      code = <i32>load<u16>(ptr + (<usize>pos << 1), HEADER_SIZE);
+    }
+    if (<u32>(code - CharCode._0) >= 10) throw new SyntaxError("No number after minus sign in JSON");
+
+    // accumulate digits, remembering the decimal exponent of the last one
+    var mantissa: f64 = 0;
+    var scale = 0;
+    if (code == CharCode._0) {
+      ++pos;
+    } else {
+      while (pos < end && <u32>((code = <i32>load<u16>(ptr + (<usize>pos << 1), HEADER_SIZE)) - CharCode._0) < 10) {
+        mantissa = mantissa * 10 + <f64>(code - CharCode._0);
+        ++pos;
+      }
+    }
+    if (pos < end && <i32>load<u16>(ptr + (<usize>pos << 1), HEADER_SIZE) == CharCode.DOT) {
+      if (++pos >= end || <u32>(<i32>load<u16>(ptr + (<usize>pos << 1), HEADER_SIZE) - CharCode._0) >= 10) {
+        throw new SyntaxError("Unterminated fractional number in JSON");
+      }
+      while (pos < end && <u32>((code = <i32>load<u16>(ptr + (<usize>pos << 1), HEADER_SIZE)) - CharCode._0) < 10) {
+        mantissa = mantissa * 10 + <f64>(code - CharCode._0);
+        --scale;
+        ++pos;
+      }
+    }
+    if (pos < end) {
+      code = <i32>load<u16>(ptr + (<usize>pos << 1), HEADER_SIZE);
+      if (code == CharCode.e || code == CharCode.E) {
+        let exponentNegative = false;
+        if (++pos < end) {
+          code = <i32>load<u16>(ptr + (<usize>pos << 1), HEADER_SIZE);
+          if (code == CharCode.MINUS || code == CharCode.PLUS) {
+            exponentNegative = code == CharCode.MINUS;
+            ++pos;
+          }
+        }
+        if (pos >= end || <u32>(<i32>load<u16>(ptr + (<usize>pos << 1), HEADER_SIZE) - CharCode._0) >= 10) {
+          throw new SyntaxError("Exponent part is missing a number in JSON");
+        }
+        let exponent = 0;
+        while (pos < end && <u32>((code = <i32>load<u16>(ptr + (<usize>pos << 1), HEADER_SIZE)) - CharCode._0) < 10) {
+          if (exponent < 10000) exponent = exponent * 10 + code - CharCode._0;
+          ++pos;
+        }
+        scale += exponentNegative ? -exponent : exponent;
+      }
+    }
+    // powers of ten are exact up to 1e22, so dividing keeps small fractions correctly rounded
+    if (scale < 0) mantissa /= NativeMath.pow(10, <f64>-scale);
+    else if (scale > 0) mantissa *= NativeMath.pow(10, <f64>scale);
+    this.numberValue = negative ? -mantissa : mantissa;
+    return pos;
+  }
+}
+
+export namespace JSON {
+
+  /** Parses the specified JSON text to a {@link JSONValue}. */
+  export function parse(text: string): JSONValue {
+    var tokenizer = new JSONTokenizer(text);
+    var value = parseValue(tokenizer, tokenizer.next());
+    if (tokenizer.next() != JSONToken.END) throw new SyntaxError("Unexpected token in JSON");
+    return value;
+  }
+
+  /** Converts the specified {@link JSONValue} to JSON text. */
+  export function stringify(value: JSONValue): string {
+    switch (value.type) {
+      case JSONType.BOOL: return value.asBool() ? "true" : "false";
+      case JSONType.NUMBER: {
+        let number = value.asNumber();
+        return isFinite<f64>(number) ? dtoa<f64>(number) : "null";
+      }
+      case JSONType.STRING: return quote(value.asString());
+      case JSONType.ARRAY: {
+        let array = value.asArray();
+        let result = "[";
+        for (let i = 0, k = array.length; i < k; ++i) {
+          if (i) result += ",";
+          result += stringify(array[i]);
+        }
+        return result + "]";
+      }
+      case JSONType.OBJECT: {
+        let result = "{";
+        let first = true;
+        let entries = value.asObject().entries();
+        while (!entries.done) {
+          let entry = entries.next();
+          if (!first) result += ",";
+          result += quote(entry.key);
+          result += ":";
+          result += stringify(entry.value);
+          first = false;
+        }
+        return result + "}";
+      }
+    }
+    return "null";
+  }
+
+  /** Encodes a value of the specified type as a {@link JSONValue}. */
+  export function encode<T>(value: T): JSONValue {
+    if (isBoolean<T>()) {
+      return JSONValue.createBool(value);
+    } else if (isInteger<T>() || isFloat<T>()) {
+      return JSONValue.createNumber(<f64>value);
+    } else if (isReference<T>()) {
+      if (value === null) return JSONValue.createNull();
+      if (value instanceof JSONValue) return value;
+      if (isString<T>()) return JSONValue.createString(value);
+      if (isArray<T>()) {
+        let array = JSONValue.createArray();
+        for (let i = 0, k = value.length; i < k; ++i) { // tslint:disable-line:no-unsafe-any
+          array.push(encode(unchecked(value[i]))); // tslint:disable-line:no-unsafe-any
+        }
+        return array;
+      }
+      // generated for @serializable classes
+      return value.toJSON(); // tslint:disable-line:no-unsafe-any
+    }
+    ERROR("Type is not serializable");
+    return JSONValue.createNull();
+  }
+
+  /** Decodes a value of the specified type from a {@link JSONValue}. `null` decodes to zero. */
+  export function decode<T>(value: JSONValue | null): T {
+    var isNull = value === null || value.isNull;
+    if (isBoolean<T>()) {
+      return isNull ? false : value.asBool();
+    } else if (isInteger<T>() || isFloat<T>()) {
+      return isNull ? <T>0 : <T>value.asNumber();
+    } else if (isReference<T>()) {
+      if (isNull) return changetype<T>(0);
+      if (isString<T>()) return value.asString();
+      if (changetype<T>(value) instanceof JSONValue) return changetype<T>(value);
+      if (isArray<T>()) {
+        let array = value.asArray();
+        let length = array.length;
+        let result = instantiate<T>(length);
+        for (let i = 0; i < length; ++i) {
+          result[i] = decodeAs(array[i], unchecked(result[i])); // tslint:disable-line:no-unsafe-any
+        }
+        return result;
+      }
+      let result = instantiate<T>();
+      // generated for @serializable classes
+      result.fromJSON(<JSONValue>value); // tslint:disable-line:no-unsafe-any
+      return result;
+    }
+    ERROR("Type is not serializable");
+    return changetype<T>(0);
+  }
+}
+
+// infers the element type to decode from an existing element of that type
+@inline
+function decodeAs<T>(value: JSONValue, witness: T): T {
+  return JSON.decode<T>(value);
+}
+
+function parseValue(tokenizer: JSONTokenizer, token: JSONToken): JSONValue {
+  switch (token) {
+    case JSONToken.NULL: return JSONValue.createNull();
+    case JSONToken.TRUE: return JSONValue.createBool(true);
+    case JSONToken.FALSE: return JSONValue.createBool(false);
+    case JSONToken.NUMBER: return JSONValue.createNumber(tokenizer.numberValue);
+    case JSONToken.STRING: return JSONValue.createString(tokenizer.stringValue);
+    case JSONToken.BEGIN_ARRAY: {
+      let array = JSONValue.createArray();
+      token = tokenizer.next();
+      if (token == JSONToken.END_ARRAY) return array;
+      while (true) {
+        array.push(parseValue(tokenizer, token));
+        token = tokenizer.next();
+        if (token == JSONToken.END_ARRAY) return array;
+        if (token != JSONToken.COMMA) break;
+        token = tokenizer.next();
+      }
+      break;
+    }
+    case JSONToken.BEGIN_OBJECT: {
+      let object = JSONValue.createObject();
+      token = tokenizer.next();
+      if (token == JSONToken.END_OBJECT) return object;
+      while (token == JSONToken.STRING) {
+        let key = tokenizer.stringValue;
+        if (tokenizer.next() != JSONToken.COLON) break;
+        object.set(key, parseValue(tokenizer, tokenizer.next()));
+        token = tokenizer.next();
+        if (token == JSONToken.END_OBJECT) return object;
+        if (token != JSONToken.COMMA) break;
+        token = tokenizer.next();
+      }
+      break;
+    }
+  }
+  throw new SyntaxError(token == JSONToken.END ? "Unexpected end of JSON input" : "Unexpected token in JSON");
+}
+
+// quotes a string, escaping quotes, backslashes and control characters
+function quote(str: string): string {
+  var length = str.length;
+  var ptr = changetype<usize>(str);
+  var quotedLength = length + 2;
+  for (let i = 0; i < length; ++i) {
+    let code = <i32>load<u16>(ptr + (<usize>i << 1), HEADER_SIZE);
+    if (code == CharCode.DOUBLEQUOTE || code == CharCode.BACKSLASH) ++quotedLength;
+    else if (code < 0x20) quotedLength += escapeChar(code) ? 1 : 5;
+  }
+  var result = allocateUnsafe(quotedLength);
+  var out = changetype<usize>(result);
+  store<u16>(out, CharCode.DOUBLEQUOTE, HEADER_SIZE);
+  out += 2;
+  for (let i = 0; i < length; ++i) {
+    let code = <i32>load<u16>(ptr + (<usize>i << 1), HEADER_SIZE);
+    if (code == CharCode.DOUBLEQUOTE || code == CharCode.BACKSLASH) {
+      store<u16>(out, CharCode.BACKSLASH, HEADER_SIZE);
+      store<u16>(out, <u16>code, HEADER_SIZE + 2);
+      out += 4;
+    } else if (code < 0x20) {
+      let escaped = escapeChar(code);
+      store<u16>(out, CharCode.BACKSLASH, HEADER_SIZE);
+      if (escaped) {
+        store<u16>(out, <u16>escaped, HEADER_SIZE + 2);
+        out += 4;
+      } else { // \u00XX
+        store<u16>(out, CharCode.u, HEADER_SIZE + 2);
+        store<u16>(out, CharCode._0, HEADER_SIZE + 4);
+        store<u16>(out, CharCode._0, HEADER_SIZE + 6);
+        store<u16>(out, <u16>hexDigit(code >> 4), HEADER_SIZE + 8);
+        store<u16>(out, <u16>hexDigit(code & 0xF), HEADER_SIZE + 10);
+        out += 12;
+      }
+    } else {
+      store<u16>(out, <u16>code, HEADER_SIZE);
+      out += 2;
+    }
+  }
+  store<u16>(out, CharCode.DOUBLEQUOTE, HEADER_SIZE);
+  return changetype<string>(result);
+}
+
+// returns the character of a short escape sequence, i.e. `n` for a line feed, or `0` if there is none
+function escapeChar(code: i32): i32 {
+  switch (code) {
+    case CharCode.BACKSPACE: return CharCode.b;
+    case CharCode.TAB: return CharCode.t;
+    case CharCode.LINEFEED: return CharCode.n;
+    case CharCode.FORMFEED: return CharCode.f;
+    case CharCode.CARRIAGERETURN: return CharCode.r;
+  }
+  return 0;
+}
+
+// returns the character represented by a short escape sequence or `-1` if invalid
+function unescapeChar(code: i32): i32 {
+  switch (code) {
+    case CharCode.DOUBLEQUOTE:
+    case CharCode.BACKSLASH:
+    case CharCode.SLASH: return code;
+    case CharCode.b: return CharCode.BACKSPACE;
+    case CharCode.t: return CharCode.TAB;
+    case CharCode.n: return CharCode.LINEFEED;
+    case CharCode.f: return CharCode.FORMFEED;
+    case CharCode.r: return CharCode.CARRIAGERETURN;
+  }
+  return -1;
+}
+
+function hexValue(code: i32): i32 {
+  if (<u32>(code - CharCode._0) < 10) return code - CharCode._0;
+  if (<u32>(code - CharCode.a) < 6) return code - CharCode.a + 10;
+  if (<u32>(code - CharCode.A) < 6) return code - CharCode.A + 10;
+  return -1;
+}
+
+@inline
+function hexDigit(value: i32): i32 {
+  return value < 10 ? CharCode._0 + value : CharCode.a + value - 10;
+}
@@ -6,6 +6,10 @@ import {
   hash
 } from "./internal/hash";
 
+import {
+  IterableIterator
+} from "./iterator";
+
 // A deterministic hash map based on CloseTable from https://github.com/jorendorff/dht
 
 const INITIAL_CAPACITY = 4;
@@ -47,7 +51,7 @@ export class Map<K,V> {
   private bucketsMask: u32;
 
   // entries in insertion order
-  private entries: ArrayBuffer; // MapEntry<K,V>[entriesCapacity]
+  private entriesBuffer: ArrayBuffer; // MapEntry<K,V>[entriesCapacity]
   private entriesCapacity: i32;
   private entriesOffset: i32;
   private entriesCount: i32;
@@ -61,7 +65,7 @@ export class Map<K,V> {
     this.buckets = new ArrayBuffer(bucketsSize);
     this.bucketsMask = INITIAL_CAPACITY - 1;
     const entriesSize = INITIAL_CAPACITY * <i32>ENTRY_SIZE<K,V>();
-    this.entries = new ArrayBuffer(entriesSize, true);
+    this.entriesBuffer = new ArrayBuffer(entriesSize, true);
     this.entriesCapacity = INITIAL_CAPACITY;
     this.entriesOffset = 0;
     this.entriesCount = 0;
@@ -103,7 +107,7 @@ export class Map<K,V> {
         );
       }
       // append new entry
-      let entries = this.entries;
+      let entries = this.entriesBuffer;
       entry = changetype<MapEntry<K,V>>(
         changetype<usize>(entries) + HEADER_SIZE_AB + this.entriesOffset++ * ENTRY_SIZE<K,V>()
       );
@@ -133,6 +137,39 @@ export class Map<K,V> {
     return true;
   }
 
+  keys(): IterableIterator<K> {
+    var iterator = new MapKeyIterator<K,V>();
+    iterator.map = this;
+    return iterator;
+  }
+
+  values(): IterableIterator<V> {
+    var iterator = new MapValueIterator<K,V>();
+    iterator.map = this;
+    return iterator;
+  }
+
+  entries(): IterableIterator<KeyValue<K,V>> {
+    var iterator = new MapEntryIterator<K,V>();
+    iterator.map = this;
+    return iterator;
+  }
+
+  forEach(callbackfn: (value: V, key: K, map: Map<K,V>) => void): void {
+    // entries appended by the callback are visited as well
+    for (let offset = 0; offset < this.entriesOffset; ++offset) {
+      let entry = changetype<MapEntry<K,V>>(
+        changetype<usize>(this.entriesBuffer) + HEADER_SIZE_AB + <usize>offset * ENTRY_SIZE<K,V>()
+      );
+      if (!(entry.taggedNext & EMPTY)) callbackfn(entry.value, entry.key, this);
+    }
+  }
+
+  // iterating over a map yields its entries
+  private __iterator(): IterableIterator<KeyValue<K,V>> {
+    return this.entries();
+  }
+
   private rehash(newBucketsMask: u32): void {
     var newBucketsCapacity = <i32>(newBucketsMask + 1);
     var newBuckets = new ArrayBuffer(newBucketsCapacity * <i32>BUCKET_SIZE);
@@ -140,7 +177,7 @@ export class Map<K,V> {
     var newEntries = new ArrayBuffer(newEntriesCapacity * <i32>ENTRY_SIZE<K,V>(), true);
 
     // copy old entries to new entries
-    var oldPtr = changetype<usize>(this.entries) + HEADER_SIZE_AB;
+    var oldPtr = changetype<usize>(this.entriesBuffer) + HEADER_SIZE_AB;
     var oldEnd = oldPtr + <usize>this.entriesOffset * ENTRY_SIZE<K,V>();
     var newPtr = changetype<usize>(newEntries) + HEADER_SIZE_AB;
     while (oldPtr != oldEnd) {
@@ -160,14 +197,14 @@ export class Map<K,V> {
 
     this.buckets = newBuckets;
     this.bucketsMask = newBucketsMask;
-    this.entries = newEntries;
+    this.entriesBuffer = newEntries;
     this.entriesCapacity = newEntriesCapacity;
     this.entriesOffset = this.entriesCount;
   }
 
   private __gc(): void {
     __gc_mark(changetype<usize>(this.buckets)); // tslint:disable-line
-    var entries = this.entries;
+    var entries = this.entriesBuffer;
     __gc_mark(changetype<usize>(entries)); // tslint:disable-line
     if (isManaged<K>() || isManaged<V>()) {
       let offset: usize = 0;
@@ -185,3 +222,56 @@ export class Map<K,V> {
     }
   }
 }
+
+/** A key and its value, as obtained when iterating over the entries of a map. */
+export class KeyValue<K,V> {
+  constructor(public key: K, public value: V) {}
+}
+
+/** Iterates over the entries of a map in insertion order, skipping deleted ones. */
+abstract class MapIterator<K,V,T> extends IterableIterator<T> {
+
+  map: Map<K,V>; // set when created
+  private offset: i32 = 0;
+
+  get done(): bool {
+    var map = this.map;
+    var offset = this.offset;
+    var end = map.entriesOffset;
+    while (offset < end) {
+      let entry = changetype<MapEntry<K,V>>(
+        changetype<usize>(map.entriesBuffer) + HEADER_SIZE_AB + <usize>offset * ENTRY_SIZE<K,V>()
+      );
+      if (!(entry.taggedNext & EMPTY)) break;
+      ++offset;
+    }
+    this.offset = offset;
+    return offset >= end;
+  }
+
+  protected nextEntry(): MapEntry<K,V> {
+    if (this.done) throw new Error("Iterator is done");
+    return changetype<MapEntry<K,V>>(
+      changetype<usize>(this.map.entriesBuffer) + HEADER_SIZE_AB + <usize>(this.offset++) * ENTRY_SIZE<K,V>()
+    );
+  }
+}
+
+class MapKeyIterator<K,V> extends MapIterator<K,V,K> {
+  next(): K {
+    return this.nextEntry().key;
+  }
+}
+
+class MapValueIterator<K,V> extends MapIterator<K,V,V> {
+  next(): V {
+    return this.nextEntry().value;
+  }
+}
+
+class MapEntryIterator<K,V> extends MapIterator<K,V,KeyValue<K,V>> {
+  next(): KeyValue<K,V> {
+    var entry = this.nextEntry();
+    return new KeyValue<K,V>(entry.key, entry.value);
+  }
+}
@@ -0,0 +1,132 @@
+import {
+  itoa_radix
+} from "./internal/itoa";
+
+import {
+  dtoa,
+  dtoa_fixed,
+  dtoa_precision,
+  dtoa_exponential
+} from "./internal/dtoa";
+
+// Classes providing the methods of basic values, i.e. `value.toString()`. Their methods take the
+// basic value as `this` and these classes are never instantiated.
+
+@sealed
+export abstract class I8 {
+  toString(this: i8, radix: i32 = 10): String {
+    return itoa_radix<i8>(this, radix);
+  }
+}
+
+@sealed
+export abstract class I16 {
+  toString(this: i16, radix: i32 = 10): String {
+    return itoa_radix<i16>(this, radix);
+  }
+}
+
+@sealed
+export abstract class I32 {
+  toString(this: i32, radix: i32 = 10): String {
+    return itoa_radix<i32>(this, radix);
+  }
+}
+
+@sealed
+export abstract class I64 {
+  toString(this: i64, radix: i32 = 10): String {
+    return itoa_radix<i64>(this, radix);
+  }
+}
+
+@sealed
+export abstract class Isize {
+  toString(this: isize, radix: i32 = 10): String {
+    return itoa_radix<isize>(this, radix);
+  }
+}
+
+@sealed
+export abstract class U8 {
+  toString(this: u8, radix: i32 = 10): String {
+    return itoa_radix<u8>(this, radix);
+  }
+}
+
+@sealed
+export abstract class U16 {
+  toString(this: u16, radix: i32 = 10): String {
+    return itoa_radix<u16>(this, radix);
+  }
+}
+
+@sealed
+export abstract class U32 {
+  toString(this: u32, radix: i32 = 10): String {
+    return itoa_radix<u32>(this, radix);
+  }
+}
+
+@sealed
+export abstract class U64 {
+  toString(this: u64, radix: i32 = 10): String {
+    return itoa_radix<u64>(this, radix);
+  }
+}
+
+@sealed
+export abstract class Usize {
+  toString(this: usize, radix: i32 = 10): String {
+    return itoa_radix<usize>(this, radix);
+  }
+}
+
+@sealed
+export abstract class Bool {
+  toString(this: bool): String {
+    return this ? "true" : "false";
+  }
+}
+
+@sealed
+export abstract class F32 {
+  toString(this: f32): String {
+    return dtoa<f32>(this);
+  }
+
+  toFixed(this: f32, fractionDigits: i32 = 0): String {
+    return dtoa_fixed(this, fractionDigits);
+  }
+
+  // an omitted precision is indicated by `0`
+  toPrecision(this: f32, precision: i32 = 0): String {
+    return precision ? dtoa_precision(this, precision) : dtoa<f32>(this);
+  }
+
+  // omitted fraction digits are indicated by `-1`
+  toExponential(this: f32, fractionDigits: i32 = -1): String {
+    return dtoa_exponential<f32>(this, fractionDigits);
+  }
+}
+
+@sealed
+export abstract class F64 {
+  toString(this: f64): String {
+    return dtoa<f64>(this);
+  }
+
+  toFixed(this: f64, fractionDigits: i32 = 0): String {
+    return dtoa_fixed(this, fractionDigits);
+  }
+
+  // an omitted precision is indicated by `0`
+  toPrecision(this: f64, precision: i32 = 0): String {
+    return precision ? dtoa_precision(this, precision) : dtoa<f64>(this);
+  }
+
+  // omitted fraction digits are indicated by `-1`
+  toExponential(this: f64, fractionDigits: i32 = -1): String {
+    return dtoa_exponential<f64>(this, fractionDigits);
+  }
+}
@@ -0,0 +1,12 @@
+import {
+  performance_now
+} from "./env";
+
+export namespace performance {
+
+  /** Gets the current value of a monotonic clock in milliseconds, with sub-millisecond precision. */
+  @inline
+  export function now(): f64 {
+    return performance_now();
+  }
+}
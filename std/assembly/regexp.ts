@@ -1,12 +1,117 @@
+import {
+  Flags,
+  Parser,
+  parseFlags
+} from "./internal/regexp-parser";
+
+import {
+  Matcher
+} from "./internal/regexp";
+
 export class RegExp {
 
-  // @binding(CALL_NEW, [ STRING, STRING], OBJECT_HANDLE)
-  constructor(pattern: string, flags: string = "") { throw new Error("unreachable"); }
+  readonly source: string;
+  lastIndex: i32 = 0;
+
+  /* @internal */ flags_: i32;
+  /* @internal */ program_: i32[];
+
+  // the compiler provides the program of literals it already parsed
+  constructor(pattern: string, flags: string = "", program: i32[] | null = null) {
+    var bits = parseFlags(flags);
+    if (bits < 0) throw new SyntaxError("Invalid regular expression flags '" + flags + "'");
+    if (!program) {
+      let parser = new Parser(pattern);
+      program = parser.parse();
+      if (!program) {
+        throw new SyntaxError("Invalid regular expression: /" + pattern + "/: " + <string>parser.message);
+      }
+    }
+    this.source = pattern.length ? pattern : "(?:)";
+    this.flags_ = bits;
+    this.program_ = <i32[]>program;
+  }
+
+  get flags(): string {
+    var bits = this.flags_;
+    var flags = "";
+    if (bits & Flags.GLOBAL) flags += "g";
+    if (bits & Flags.IGNORECASE) flags += "i";
+    if (bits & Flags.MULTILINE) flags += "m";
+    return flags;
+  }
+
+  get global(): bool {
+    return (this.flags_ & Flags.GLOBAL) != 0;
+  }
+
+  get ignoreCase(): bool {
+    return (this.flags_ & Flags.IGNORECASE) != 0;
+  }
+
+  get multiline(): bool {
+    return (this.flags_ & Flags.MULTILINE) != 0;
+  }
+
+  exec(str: string): RegExpExecArray | null {
+    var global = this.global;
+    var start = global ? this.lastIndex : 0;
+    if (<u32>start > <u32>str.length) {
+      this.lastIndex = 0;
+      return null;
+    }
+    var matcher = new Matcher(this.program_, this.flags_, str);
+    var result = matcher.exec(start);
+    if (!result) {
+      if (global) this.lastIndex = 0;
+      return null;
+    }
+    var captures = <i32[]>result;
+    if (global) this.lastIndex = captures[1];
+    return new RegExpExecArray(str, captures);
+  }
+
+  test(str: string): bool {
+    return this.exec(str) !== null;
+  }
+
+  toString(): string {
+    return "/" + this.source + "/" + this.flags;
+  }
+}
+
+export class RegExpExecArray {
+
+  readonly input: string;
+  readonly index: i32;
+
+  // start and end index of each group, or -1 if it did not participate in the match
+  /* @internal */ captures_: i32[];
+
+  constructor(input: string, captures: i32[]) {
+    this.input = input;
+    this.index = captures[0];
+    this.captures_ = captures;
+  }
+
+  get length(): i32 {
+    return this.captures_.length >> 1;
+  }
 
-  // @binding(CALL_THIS, [ STRING ], PASS_THRU)
-  test(search: string): bool { throw new Error("unreachable"); }
+  @operator("[]")
+  private __get(group: i32): string | null {
+    var start = this.start(group);
+    if (start < 0) return null;
+    return this.input.substring(start, this.end(group));
+  }
 
-  // @binding(CALL_THIS, [], STRING)
-  toString(): string { throw new Error("unreachable"); }
+  start(group: i32 = 0): i32 {
+    if (<u32>group >= <u32>this.length) return -1;
+    return this.captures_[group << 1];
+  }
 
+  end(group: i32 = 0): i32 {
+    if (<u32>group >= <u32>this.length) return -1;
+    return this.captures_[(group << 1) + 1];
+  }
 }
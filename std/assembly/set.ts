@@ -6,6 +6,14 @@ import {
   hash
 } from "./internal/hash";
 
+import {
+  IterableIterator
+} from "./iterator";
+
+import {
+  KeyValue
+} from "./map";
+
 // A deterministic hash set based on CloseTable from https://github.com/jorendorff/dht
 
 const INITIAL_CAPACITY = 4;
@@ -45,7 +53,7 @@ export class Set<K> {
   private bucketsMask: u32;
 
   // entries in insertion order
-  private entries: ArrayBuffer; // SetEntry<K>[entriesCapacity]
+  private entriesBuffer: ArrayBuffer; // SetEntry<K>[entriesCapacity]
   private entriesCapacity: i32;
   private entriesOffset: i32;
   private entriesCount: i32;
@@ -59,7 +67,7 @@ export class Set<K> {
     this.buckets = new ArrayBuffer(bucketsSize);
     this.bucketsMask = INITIAL_CAPACITY - 1;
     const entriesSize = INITIAL_CAPACITY * <i32>ENTRY_SIZE<K>();
-    this.entries = new ArrayBuffer(entriesSize, true);
+    this.entriesBuffer = new ArrayBuffer(entriesSize, true);
     this.entriesCapacity = INITIAL_CAPACITY;
     this.entriesOffset = 0;
     this.entriesCount = 0;
@@ -94,7 +102,7 @@ export class Set<K> {
         );
       }
       // append new entry
-      let entries = this.entries;
+      let entries = this.entriesBuffer;
       entry = changetype<SetEntry<K>>(
         changetype<usize>(entries) + HEADER_SIZE_AB + this.entriesOffset++ * ENTRY_SIZE<K>()
       );
@@ -122,6 +130,37 @@ export class Set<K> {
     return true;
   }
 
+  keys(): IterableIterator<K> {
+    return this.values();
+  }
+
+  values(): IterableIterator<K> {
+    var iterator = new SetValueIterator<K>();
+    iterator.set = this;
+    return iterator;
+  }
+
+  entries(): IterableIterator<KeyValue<K,K>> {
+    var iterator = new SetEntryIterator<K>();
+    iterator.set = this;
+    return iterator;
+  }
+
+  forEach(callbackfn: (value: K, key: K, set: Set<K>) => void): void {
+    // entries appended by the callback are visited as well
+    for (let offset = 0; offset < this.entriesOffset; ++offset) {
+      let entry = changetype<SetEntry<K>>(
+        changetype<usize>(this.entriesBuffer) + HEADER_SIZE_AB + <usize>offset * ENTRY_SIZE<K>()
+      );
+      if (!(entry.taggedNext & EMPTY)) callbackfn(entry.key, entry.key, this);
+    }
+  }
+
+  // iterating over a set yields its values
+  private __iterator(): IterableIterator<K> {
+    return this.values();
+  }
+
   private rehash(newBucketsMask: u32): void {
     var newBucketsCapacity = <i32>(newBucketsMask + 1);
     var newBuckets = new ArrayBuffer(newBucketsCapacity * <i32>BUCKET_SIZE);
@@ -129,7 +168,7 @@ export class Set<K> {
     var newEntries = new ArrayBuffer(newEntriesCapacity * <i32>ENTRY_SIZE<K>(), true);
 
     // copy old entries to new entries
-    var oldPtr = changetype<usize>(this.entries) + HEADER_SIZE_AB;
+    var oldPtr = changetype<usize>(this.entriesBuffer) + HEADER_SIZE_AB;
     var oldEnd = oldPtr + <usize>this.entriesOffset * ENTRY_SIZE<K>();
     var newPtr = changetype<usize>(newEntries) + HEADER_SIZE_AB;
     while (oldPtr != oldEnd) {
@@ -148,14 +187,14 @@ export class Set<K> {
 
     this.buckets = newBuckets;
     this.bucketsMask = newBucketsMask;
-    this.entries = newEntries;
+    this.entriesBuffer = newEntries;
     this.entriesCapacity = newEntriesCapacity;
     this.entriesOffset = this.entriesCount;
   }
 
   private __gc(): void {
     __gc_mark(changetype<usize>(this.buckets)); // tslint:disable-line
-    var entries = this.entries;
+    var entries = this.entriesBuffer;
     __gc_mark(changetype<usize>(entries)); // tslint:disable-line
     if (isManaged<K>()) {
       let offset: usize = 0;
@@ -170,3 +209,45 @@ export class Set<K> {
     }
   }
 }
+
+/** Iterates over the entries of a set in insertion order, skipping deleted ones. */
+abstract class SetIterator<K,T> extends IterableIterator<T> {
+
+  set: Set<K>; // set when created
+  private offset: i32 = 0;
+
+  get done(): bool {
+    var set = this.set;
+    var offset = this.offset;
+    var end = set.entriesOffset;
+    while (offset < end) {
+      let entry = changetype<SetEntry<K>>(
+        changetype<usize>(set.entriesBuffer) + HEADER_SIZE_AB + <usize>offset * ENTRY_SIZE<K>()
+      );
+      if (!(entry.taggedNext & EMPTY)) break;
+      ++offset;
+    }
+    this.offset = offset;
+    return offset >= end;
+  }
+
+  protected nextEntry(): SetEntry<K> {
+    if (this.done) throw new Error("Iterator is done");
+    return changetype<SetEntry<K>>(
+      changetype<usize>(this.set.entriesBuffer) + HEADER_SIZE_AB + <usize>(this.offset++) * ENTRY_SIZE<K>()
+    );
+  }
+}
+
+class SetValueIterator<K> extends SetIterator<K,K> {
+  next(): K {
+    return this.nextEntry().key;
+  }
+}
+
+class SetEntryIterator<K> extends SetIterator<K,KeyValue<K,K>> {
+  next(): KeyValue<K,K> {
+    var key = this.nextEntry().key;
+    return new KeyValue<K,K>(key, key);
+  }
+}
@@ -6,10 +6,31 @@ import {
   repeatUnsafe,
   copyUnsafe,
   isWhiteSpaceOrLineTerminator,
+  getSubstitution,
+  toCaseUnsafe,
+  normalizeUnsafe,
+  localeCompareUnsafe,
   CharCode,
   parse
 } from "./internal/string";
 
+import {
+  itoa // converts integers substituted in template literals
+} from "./internal/itoa";
+
+import {
+  dtoa // converts floats substituted in template literals
+} from "./internal/dtoa";
+
+import {
+  decodeUTF8Unsafe,
+  encodeUTF8Unsafe
+} from "./internal/encoding";
+
+import {
+  IterableIterator
+} from "./iterator";
+
 @sealed
 export class String {
 
@@ -42,13 +63,17 @@ export class String {
       let lo: u32 = (code & 0x3FF) + 0xDC00;
       store<u32>(
         changetype<usize>(out),
-        (hi << 16) | lo,
+        (lo << 16) | hi,
         HEADER_SIZE
       );
     }
     return out;
   }
 
+  static fromUTF8(ptr: usize, len: usize): String {
+    return decodeUTF8Unsafe(ptr, len, false);
+  }
+
   @operator("[]")
   charAt(pos: i32): String {
     assert(this !== null);
@@ -235,6 +260,21 @@ export class String {
     return -1;
   }
 
+  localeCompare(other: String): i32 {
+    assert(this !== null);
+    if (other === null) other = changetype<String>("null");
+    return localeCompareUnsafe(this, other);
+  }
+
+  normalize(form: String = changetype<String>("NFC")): String {
+    assert(this !== null);
+    if (form == "NFC") return normalizeUnsafe(this, true, false);
+    if (form == "NFD") return normalizeUnsafe(this, false, false);
+    if (form == "NFKC") return normalizeUnsafe(this, true, true);
+    if (form == "NFKD") return normalizeUnsafe(this, false, true);
+    throw new RangeError("The normalization form should be one of NFC, NFD, NFKC, NFKD");
+  }
+
   startsWith(searchString: String, position: i32 = 0): bool {
     assert(this !== null);
     if (searchString === null) searchString = changetype<String>("null");
@@ -282,7 +322,7 @@ export class String {
     while (
       length &&
       isWhiteSpaceOrLineTerminator(
-        load<u16>(changetype<usize>(this) + (length << 1), HEADER_SIZE)
+        load<u16>(changetype<usize>(this) + ((length - 1) << 1), HEADER_SIZE)
       )
     ) {
       --length;
@@ -329,7 +369,7 @@ export class String {
     while (
       len > 0 &&
       isWhiteSpaceOrLineTerminator(
-        load<u16>(changetype<usize>(this) + (len << 1), HEADER_SIZE)
+        load<u16>(changetype<usize>(this) + ((len - 1) << 1), HEADER_SIZE)
       )
     ) {
       --len;
@@ -398,10 +438,150 @@ export class String {
     return result;
   }
 
+  replace(search: String, replacement: String): String {
+    assert(this !== null);
+    if (search === null) search = changetype<String>("null");
+    if (replacement === null) replacement = changetype<String>("null");
+
+    var index = this.indexOf(search);
+    if (index == -1) return this;
+    var length = this.length;
+    var searchLen = search.length;
+    replacement = getSubstitution(this, index, searchLen, replacement);
+    var replacementLen = replacement.length;
+    var outLen = length - searchLen + replacementLen;
+    if (!outLen) return changetype<String>("");
+    var out = allocateUnsafe(outLen);
+    copyUnsafe(out, 0, this, 0, index);
+    copyUnsafe(out, index, replacement, 0, replacementLen);
+    copyUnsafe(out, index + replacementLen, this, index + searchLen, length - index - searchLen);
+    return out;
+  }
+
+  replaceAll(search: String, replacement: String): String {
+    assert(this !== null);
+    if (search === null) search = changetype<String>("null");
+    if (replacement === null) replacement = changetype<String>("null");
+
+    // find all matches, with an empty search matching at each position
+    var length = this.length;
+    var searchLen = search.length;
+    var positions = new Array<i32>();
+    if (!searchLen) {
+      for (let i = 0; i <= length; ++i) positions.push(i);
+    } else {
+      let index = this.indexOf(search);
+      while (index != -1) {
+        positions.push(index);
+        index = this.indexOf(search, index + searchLen);
+      }
+    }
+    var count = positions.length;
+    if (!count) return this;
+
+    // then substitute them
+    var substitutions = new Array<String>(count);
+    var outLen = length - count * searchLen;
+    for (let i = 0; i < count; ++i) {
+      let substitution = getSubstitution(this, positions[i], searchLen, replacement);
+      substitutions[i] = substitution;
+      outLen += substitution.length;
+    }
+    if (!outLen) return changetype<String>("");
+    var out = allocateUnsafe(outLen);
+    var offset = 0;
+    var last = 0;
+    for (let i = 0; i < count; ++i) {
+      let index = positions[i];
+      let substitution = substitutions[i];
+      let substitutionLen = substitution.length;
+      copyUnsafe(out, offset, this, last, index - last);
+      offset += index - last;
+      copyUnsafe(out, offset, substitution, 0, substitutionLen);
+      offset += substitutionLen;
+      last = index + searchLen;
+    }
+    copyUnsafe(out, offset, this, last, length - last);
+    return out;
+  }
+
+  split(separator: String | null = null, limit: i32 = i32.MAX_VALUE): String[] {
+    assert(this !== null);
+    var result = new Array<String>();
+    if (!limit) return result;
+    if (separator === null) {
+      result.push(this);
+      return result;
+    }
+    var search = <String>separator;
+    var length = this.length;
+    var searchLen = search.length;
+
+    // an empty separator splits into code units
+    if (!searchLen) {
+      let count = min<u32>(length, limit);
+      for (let i: u32 = 0; i < count; ++i) {
+        let out = allocateUnsafe(1);
+        store<u16>(
+          changetype<usize>(out),
+          load<u16>(changetype<usize>(this) + (<usize>i << 1), HEADER_SIZE),
+          HEADER_SIZE
+        );
+        result.push(out);
+      }
+      return result;
+    }
+    var start = 0;
+    var index = this.indexOf(search);
+    if (index == -1) {
+      result.push(this);
+      return result;
+    }
+    while (index != -1) {
+      let partLen = index - start;
+      if (partLen) {
+        let out = allocateUnsafe(partLen);
+        copyUnsafe(out, 0, this, start, partLen);
+        result.push(out);
+      } else {
+        result.push(changetype<String>(""));
+      }
+      if (<u32>result.length >= <u32>limit) return result;
+      start = index + searchLen;
+      index = this.indexOf(search, start);
+    }
+    var restLen = length - start;
+    if (restLen) {
+      let out = allocateUnsafe(restLen);
+      copyUnsafe(out, 0, this, start, restLen);
+      result.push(out);
+    } else {
+      result.push(changetype<String>(""));
+    }
+    return result;
+  }
+
+  toLowerCase(): String {
+    assert(this !== null);
+    return toCaseUnsafe(this, false);
+  }
+
+  toUpperCase(): String {
+    assert(this !== null);
+    return toCaseUnsafe(this, true);
+  }
+
   toString(): String {
     return this;
   }
 
+  // iterating over a string yields its code points
+  private __iterator(): IterableIterator<String> {
+    var iterator = new StringIterator();
+    iterator.string = this;
+    return iterator;
+  }
+
   get lengthUTF8(): i32 {
     var len = 1; // null terminated
     var pos: usize = 0;
@@ -428,44 +608,29 @@ export class String {
 
   toUTF8(): usize {
     var buf = memory.allocate(<usize>this.lengthUTF8);
-    var pos: usize = 0;
-    var end = <usize>this.length;
-    var off: usize = 0;
-    while (pos < end) {
-      let c1 = <u32>load<u16>(changetype<usize>(this) + (pos << 1), HEADER_SIZE);
-      if (c1 < 128) {
-        store<u8>(buf + off, c1);
-        ++off; ++pos;
-      } else if (c1 < 2048) {
-        let ptr = buf + off;
-        store<u8>(ptr, c1 >> 6      | 192);
-        store<u8>(ptr, c1      & 63 | 128, 1);
-        off += 2; ++pos;
-      } else {
-        let ptr = buf + off;
-        if ((c1 & 0xFC00) == 0xD800 && pos + 1 < end) {
-          let c2 = <u32>load<u16>(changetype<usize>(this) + ((pos + 1) << 1), HEADER_SIZE);
-          if ((c2 & 0xFC00) == 0xDC00) {
-            c1 = 0x10000 + ((c1 & 0x03FF) << 10) + (c2 & 0x03FF);
-            store<u8>(ptr, c1 >> 18      | 240);
-            store<u8>(ptr, c1 >> 12 & 63 | 128, 1);
-            store<u8>(ptr, c1 >> 6  & 63 | 128, 2);
-            store<u8>(ptr, c1       & 63 | 128, 3);
-            off += 4; pos += 2;
-            continue;
-          }
-        }
-        store<u8>(ptr, c1 >> 12      | 224);
-        store<u8>(ptr, c1 >> 6  & 63 | 128, 1);
-        store<u8>(ptr, c1       & 63 | 128, 2);
-        off += 3; ++pos;
-      }
-    }
-    store<u8>(buf + off, 0);
+    store<u8>(buf + encodeUTF8Unsafe(this, buf), 0);
     return buf;
   }
 }
 
+/** Iterates over the code points of a string, each as a string of its own. */
+class StringIterator extends IterableIterator<String> {
+
+  string: String; // set when created
+  private index: i32 = 0;
+
+  get done(): bool {
+    return this.index >= this.string.length;
+  }
+
+  next(): String {
+    if (this.done) throw new Error("Iterator is done");
+    var code = this.string.codePointAt(this.index);
+    this.index += code >= 0x10000 ? 2 : 1;
+    return String.fromCodePoint(code);
+  }
+}
+
 export function parseInt(str: String, radix: i32 = 0): f64 {
   return parse<f64>(str, radix);
 }
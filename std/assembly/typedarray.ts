@@ -1,26 +1,141 @@
 import {
-  TypedArray
+  TypedArray,
+  EVERY,
+  SOME,
+  FOREACH,
+  REDUCE,
+  REDUCE_RIGHT,
+  MAP,
+  FILTER,
+  SLICE,
+  SUBARRAY
 } from "./internal/typedarray";
 
 export class Int8Array extends TypedArray<i8,i32> {
   static readonly BYTES_PER_ELEMENT: usize = sizeof<i8>();
 
+  static from<U>(source: U): Int8Array {
+    var array = new Int8Array(source.length); // tslint:disable-line:no-unsafe-any
+    array.set<U>(source);
+    return array;
+  }
+
+  static of(...values: i32[]): Int8Array {
+    return Int8Array.from<i32[]>(values);
+  }
+
   subarray(begin: i32 = 0, end: i32 = 0x7fffffff): Int8Array {
-    return changetype<Int8Array>(super.subarray(begin, end));
+    return SUBARRAY<Int8Array,i8,i32>(this, begin, end, new Int8Array(0));
+  }
+
+  slice(begin: i32 = 0, end: i32 = 0x7fffffff): Int8Array {
+    return SLICE<Int8Array,i8,i32>(this, begin, end, new Int8Array(0));
+  }
+
+  every(callbackfn: (value: i8, index: i32, array: Int8Array) => bool): bool {
+    return EVERY<Int8Array,i8,i32>(this, callbackfn);
+  }
+
+  some(callbackfn: (value: i8, index: i32, array: Int8Array) => bool): bool {
+    return SOME<Int8Array,i8,i32>(this, callbackfn);
+  }
+
+  forEach(callbackfn: (value: i8, index: i32, array: Int8Array) => void): void {
+    FOREACH<Int8Array,i8,i32>(this, callbackfn);
+  }
+
+  map(callbackfn: (value: i8, index: i32, array: Int8Array) => i8): Int8Array {
+    return MAP<Int8Array,i8,i32>(this, callbackfn, new Int8Array(this.length));
+  }
+
+  filter(callbackfn: (value: i8, index: i32, array: Int8Array) => bool): Int8Array {
+    return FILTER<Int8Array,i8,i32>(this, callbackfn, new Int8Array(0));
+  }
+
+  reduce<U>(
+    callbackfn: (accumulator: U, value: i8, index: i32, array: Int8Array) => U,
+    initialValue: U
+  ): U {
+    return REDUCE<Int8Array,i8,i32,U>(this, callbackfn, initialValue);
+  }
+
+  reduceRight<U>(
+    callbackfn: (accumulator: U, value: i8, index: i32, array: Int8Array) => U,
+    initialValue: U
+  ): U {
+    return REDUCE_RIGHT<Int8Array,i8,i32,U>(this, callbackfn, initialValue);
   }
 }
 
 export class Uint8Array extends TypedArray<u8,u32> {
   static readonly BYTES_PER_ELEMENT: usize = sizeof<u8>();
 
+  static from<U>(source: U): Uint8Array {
+    var array = new Uint8Array(source.length); // tslint:disable-line:no-unsafe-any
+    array.set<U>(source);
+    return array;
+  }
+
+  static of(...values: u32[]): Uint8Array {
+    return Uint8Array.from<u32[]>(values);
+  }
+
   subarray(begin: i32 = 0, end: i32 = 0x7fffffff): Uint8Array {
-    return changetype<Uint8Array>(super.subarray(begin, end));
+    return SUBARRAY<Uint8Array,u8,u32>(this, begin, end, new Uint8Array(0));
+  }
+
+  slice(begin: i32 = 0, end: i32 = 0x7fffffff): Uint8Array {
+    return SLICE<Uint8Array,u8,u32>(this, begin, end, new Uint8Array(0));
+  }
+
+  every(callbackfn: (value: u8, index: i32, array: Uint8Array) => bool): bool {
+    return EVERY<Uint8Array,u8,u32>(this, callbackfn);
+  }
+
+  some(callbackfn: (value: u8, index: i32, array: Uint8Array) => bool): bool {
+    return SOME<Uint8Array,u8,u32>(this, callbackfn);
+  }
+
+  forEach(callbackfn: (value: u8, index: i32, array: Uint8Array) => void): void {
+    FOREACH<Uint8Array,u8,u32>(this, callbackfn);
+  }
+
+  map(callbackfn: (value: u8, index: i32, array: Uint8Array) => u8): Uint8Array {
+    return MAP<Uint8Array,u8,u32>(this, callbackfn, new Uint8Array(this.length));
+  }
+
+  filter(callbackfn: (value: u8, index: i32, array: Uint8Array) => bool): Uint8Array {
+    return FILTER<Uint8Array,u8,u32>(this, callbackfn, new Uint8Array(0));
+  }
+
+  reduce<U>(
+    callbackfn: (accumulator: U, value: u8, index: i32, array: Uint8Array) => U,
+    initialValue: U
+  ): U {
+    return REDUCE<Uint8Array,u8,u32,U>(this, callbackfn, initialValue);
+  }
+
+  reduceRight<U>(
+    callbackfn: (accumulator: U, value: u8, index: i32, array: Uint8Array) => U,
+    initialValue: U
+  ): U {
+    return REDUCE_RIGHT<Uint8Array,u8,u32,U>(this, callbackfn, initialValue);
   }
 }
 
 export class Uint8ClampedArray extends TypedArray<u8,u32> {
   static readonly BYTES_PER_ELEMENT: usize = sizeof<u8>();
 
+  static from<U>(source: U): Uint8ClampedArray {
+    var array = new Uint8ClampedArray(source.length); // tslint:disable-line:no-unsafe-any
+    array.set<U>(source);
+    return array;
+  }
+
+  static of(...values: u32[]): Uint8ClampedArray {
+    return Uint8ClampedArray.from<u32[]>(values);
+  }
+
   @operator("[]=")
   protected __set(index: i32, value: i32): void {
     super.__set(index, max(min(value, 255), 0));
@@ -31,71 +146,508 @@ export class Uint8ClampedArray extends TypedArray<u8,u32> {
     super.__unchecked_set(index, max(min(value, 255), 0));
   }
 
+  fill(value: i32, begin: i32 = 0, end: i32 = 0x7fffffff): this {
+    super.fill(max(min(value, 255), 0), begin, end);
+    return this;
+  }
+
+  set<U>(source: U, offset: i32 = 0): void {
+    var sourceLength = <i32>source.length; // tslint:disable-line:no-unsafe-any
+    if (<u32>offset > <u32>this.length || sourceLength > this.length - offset) {
+      throw new RangeError("Offset out of bounds");
+    }
+    for (let index = 0; index < sourceLength; ++index) {
+      this.__unchecked_set(offset + index, <i32>unchecked(source[index])); // tslint:disable-line:no-unsafe-any
+    }
+  }
+
   subarray(begin: i32 = 0, end: i32 = 0x7fffffff): Uint8ClampedArray {
-    return changetype<Uint8ClampedArray>(super.subarray(begin, end));
+    return SUBARRAY<Uint8ClampedArray,u8,u32>(this, begin, end, new Uint8ClampedArray(0));
+  }
+
+  slice(begin: i32 = 0, end: i32 = 0x7fffffff): Uint8ClampedArray {
+    return SLICE<Uint8ClampedArray,u8,u32>(this, begin, end, new Uint8ClampedArray(0));
+  }
+
+  every(callbackfn: (value: u8, index: i32, array: Uint8ClampedArray) => bool): bool {
+    return EVERY<Uint8ClampedArray,u8,u32>(this, callbackfn);
+  }
+
+  some(callbackfn: (value: u8, index: i32, array: Uint8ClampedArray) => bool): bool {
+    return SOME<Uint8ClampedArray,u8,u32>(this, callbackfn);
+  }
+
+  forEach(callbackfn: (value: u8, index: i32, array: Uint8ClampedArray) => void): void {
+    FOREACH<Uint8ClampedArray,u8,u32>(this, callbackfn);
+  }
+
+  map(callbackfn: (value: u8, index: i32, array: Uint8ClampedArray) => u8): Uint8ClampedArray {
+    return MAP<Uint8ClampedArray,u8,u32>(this, callbackfn, new Uint8ClampedArray(this.length));
+  }
+
+  filter(callbackfn: (value: u8, index: i32, array: Uint8ClampedArray) => bool): Uint8ClampedArray {
+    return FILTER<Uint8ClampedArray,u8,u32>(this, callbackfn, new Uint8ClampedArray(0));
+  }
+
+  reduce<U>(
+    callbackfn: (accumulator: U, value: u8, index: i32, array: Uint8ClampedArray) => U,
+    initialValue: U
+  ): U {
+    return REDUCE<Uint8ClampedArray,u8,u32,U>(this, callbackfn, initialValue);
+  }
+
+  reduceRight<U>(
+    callbackfn: (accumulator: U, value: u8, index: i32, array: Uint8ClampedArray) => U,
+    initialValue: U
+  ): U {
+    return REDUCE_RIGHT<Uint8ClampedArray,u8,u32,U>(this, callbackfn, initialValue);
   }
 }
 
 export class Int16Array extends TypedArray<i16,i32> {
   static readonly BYTES_PER_ELEMENT: usize = sizeof<i16>();
 
+  static from<U>(source: U): Int16Array {
+    var array = new Int16Array(source.length); // tslint:disable-line:no-unsafe-any
+    array.set<U>(source);
+    return array;
+  }
+
+  static of(...values: i32[]): Int16Array {
+    return Int16Array.from<i32[]>(values);
+  }
+
   subarray(begin: i32 = 0, end: i32 = 0x7fffffff): Int16Array {
-    return changetype<Int16Array>(super.subarray(begin, end));
+    return SUBARRAY<Int16Array,i16,i32>(this, begin, end, new Int16Array(0));
+  }
+
+  slice(begin: i32 = 0, end: i32 = 0x7fffffff): Int16Array {
+    return SLICE<Int16Array,i16,i32>(this, begin, end, new Int16Array(0));
+  }
+
+  every(callbackfn: (value: i16, index: i32, array: Int16Array) => bool): bool {
+    return EVERY<Int16Array,i16,i32>(this, callbackfn);
+  }
+
+  some(callbackfn: (value: i16, index: i32, array: Int16Array) => bool): bool {
+    return SOME<Int16Array,i16,i32>(this, callbackfn);
+  }
+
+  forEach(callbackfn: (value: i16, index: i32, array: Int16Array) => void): void {
+    FOREACH<Int16Array,i16,i32>(this, callbackfn);
+  }
+
+  map(callbackfn: (value: i16, index: i32, array: Int16Array) => i16): Int16Array {
+    return MAP<Int16Array,i16,i32>(this, callbackfn, new Int16Array(this.length));
+  }
+
+  filter(callbackfn: (value: i16, index: i32, array: Int16Array) => bool): Int16Array {
+    return FILTER<Int16Array,i16,i32>(this, callbackfn, new Int16Array(0));
+  }
+
+  reduce<U>(
+    callbackfn: (accumulator: U, value: i16, index: i32, array: Int16Array) => U,
+    initialValue: U
+  ): U {
+    return REDUCE<Int16Array,i16,i32,U>(this, callbackfn, initialValue);
+  }
+
+  reduceRight<U>(
+    callbackfn: (accumulator: U, value: i16, index: i32, array: Int16Array) => U,
+    initialValue: U
+  ): U {
+    return REDUCE_RIGHT<Int16Array,i16,i32,U>(this, callbackfn, initialValue);
   }
 }
 
 export class Uint16Array extends TypedArray<u16,u32> {
   static readonly BYTES_PER_ELEMENT: usize = sizeof<u16>();
 
+  static from<U>(source: U): Uint16Array {
+    var array = new Uint16Array(source.length); // tslint:disable-line:no-unsafe-any
+    array.set<U>(source);
+    return array;
+  }
+
+  static of(...values: u32[]): Uint16Array {
+    return Uint16Array.from<u32[]>(values);
+  }
+
   subarray(begin: i32 = 0, end: i32 = 0x7fffffff): Uint16Array {
-    return changetype<Uint16Array>(super.subarray(begin, end));
+    return SUBARRAY<Uint16Array,u16,u32>(this, begin, end, new Uint16Array(0));
+  }
+
+  slice(begin: i32 = 0, end: i32 = 0x7fffffff): Uint16Array {
+    return SLICE<Uint16Array,u16,u32>(this, begin, end, new Uint16Array(0));
+  }
+
+  every(callbackfn: (value: u16, index: i32, array: Uint16Array) => bool): bool {
+    return EVERY<Uint16Array,u16,u32>(this, callbackfn);
+  }
+
+  some(callbackfn: (value: u16, index: i32, array: Uint16Array) => bool): bool {
+    return SOME<Uint16Array,u16,u32>(this, callbackfn);
+  }
+
+  forEach(callbackfn: (value: u16, index: i32, array: Uint16Array) => void): void {
+    FOREACH<Uint16Array,u16,u32>(this, callbackfn);
+  }
+
+  map(callbackfn: (value: u16, index: i32, array: Uint16Array) => u16): Uint16Array {
+    return MAP<Uint16Array,u16,u32>(this, callbackfn, new Uint16Array(this.length));
+  }
+
+  filter(callbackfn: (value: u16, index: i32, array: Uint16Array) => bool): Uint16Array {
+    return FILTER<Uint16Array,u16,u32>(this, callbackfn, new Uint16Array(0));
+  }
+
+  reduce<U>(
+    callbackfn: (accumulator: U, value: u16, index: i32, array: Uint16Array) => U,
+    initialValue: U
+  ): U {
+    return REDUCE<Uint16Array,u16,u32,U>(this, callbackfn, initialValue);
+  }
+
+  reduceRight<U>(
+    callbackfn: (accumulator: U, value: u16, index: i32, array: Uint16Array) => U,
+    initialValue: U
+  ): U {
+    return REDUCE_RIGHT<Uint16Array,u16,u32,U>(this, callbackfn, initialValue);
   }
 }
 
 export class Int32Array extends TypedArray<i32,i32> {
   static readonly BYTES_PER_ELEMENT: usize = sizeof<i32>();
 
+  static from<U>(source: U): Int32Array {
+    var array = new Int32Array(source.length); // tslint:disable-line:no-unsafe-any
+    array.set<U>(source);
+    return array;
+  }
+
+  static of(...values: i32[]): Int32Array {
+    return Int32Array.from<i32[]>(values);
+  }
+
   subarray(begin: i32 = 0, end: i32 = 0x7fffffff): Int32Array {
-    return changetype<Int32Array>(super.subarray(begin, end));
+    return SUBARRAY<Int32Array,i32,i32>(this, begin, end, new Int32Array(0));
+  }
+
+  slice(begin: i32 = 0, end: i32 = 0x7fffffff): Int32Array {
+    return SLICE<Int32Array,i32,i32>(this, begin, end, new Int32Array(0));
+  }
+
+  every(callbackfn: (value: i32, index: i32, array: Int32Array) => bool): bool {
+    return EVERY<Int32Array,i32,i32>(this, callbackfn);
+  }
+
+  some(callbackfn: (value: i32, index: i32, array: Int32Array) => bool): bool {
+    return SOME<Int32Array,i32,i32>(this, callbackfn);
+  }
+
+  forEach(callbackfn: (value: i32, index: i32, array: Int32Array) => void): void {
+    FOREACH<Int32Array,i32,i32>(this, callbackfn);
+  }
+
+  map(callbackfn: (value: i32, index: i32, array: Int32Array) => i32): Int32Array {
+    return MAP<Int32Array,i32,i32>(this, callbackfn, new Int32Array(this.length));
+  }
+
+  filter(callbackfn: (value: i32, index: i32, array: Int32Array) => bool): Int32Array {
+    return FILTER<Int32Array,i32,i32>(this, callbackfn, new Int32Array(0));
+  }
+
+  reduce<U>(
+    callbackfn: (accumulator: U, value: i32, index: i32, array: Int32Array) => U,
+    initialValue: U
+  ): U {
+    return REDUCE<Int32Array,i32,i32,U>(this, callbackfn, initialValue);
+  }
+
+  reduceRight<U>(
+    callbackfn: (accumulator: U, value: i32, index: i32, array: Int32Array) => U,
+    initialValue: U
+  ): U {
+    return REDUCE_RIGHT<Int32Array,i32,i32,U>(this, callbackfn, initialValue);
   }
 }
 
 export class Uint32Array extends TypedArray<u32,u32> {
   static readonly BYTES_PER_ELEMENT: usize = sizeof<u32>();
 
+  static from<U>(source: U): Uint32Array {
+    var array = new Uint32Array(source.length); // tslint:disable-line:no-unsafe-any
+    array.set<U>(source);
+    return array;
+  }
+
+  static of(...values: u32[]): Uint32Array {
+    return Uint32Array.from<u32[]>(values);
+  }
+
   subarray(begin: i32 = 0, end: i32 = 0x7fffffff): Uint32Array {
-    return changetype<Uint32Array>(super.subarray(begin, end));
+    return SUBARRAY<Uint32Array,u32,u32>(this, begin, end, new Uint32Array(0));
+  }
+
+  slice(begin: i32 = 0, end: i32 = 0x7fffffff): Uint32Array {
+    return SLICE<Uint32Array,u32,u32>(this, begin, end, new Uint32Array(0));
+  }
+
+  every(callbackfn: (value: u32, index: i32, array: Uint32Array) => bool): bool {
+    return EVERY<Uint32Array,u32,u32>(this, callbackfn);
+  }
+
+  some(callbackfn: (value: u32, index: i32, array: Uint32Array) => bool): bool {
+    return SOME<Uint32Array,u32,u32>(this, callbackfn);
+  }
+
+  forEach(callbackfn: (value: u32, index: i32, array: Uint32Array) => void): void {
+    FOREACH<Uint32Array,u32,u32>(this, callbackfn);
+  }
+
+  map(callbackfn: (value: u32, index: i32, array: Uint32Array) => u32): Uint32Array {
+    return MAP<Uint32Array,u32,u32>(this, callbackfn, new Uint32Array(this.length));
+  }
+
+  filter(callbackfn: (value: u32, index: i32, array: Uint32Array) => bool): Uint32Array {
+    return FILTER<Uint32Array,u32,u32>(this, callbackfn, new Uint32Array(0));
+  }
+
+  reduce<U>(
+    callbackfn: (accumulator: U, value: u32, index: i32, array: Uint32Array) => U,
+    initialValue: U
+  ): U {
+    return REDUCE<Uint32Array,u32,u32,U>(this, callbackfn, initialValue);
+  }
+
+  reduceRight<U>(
+    callbackfn: (accumulator: U, value: u32, index: i32, array: Uint32Array) => U,
+    initialValue: U
+  ): U {
+    return REDUCE_RIGHT<Uint32Array,u32,u32,U>(this, callbackfn, initialValue);
   }
 }
 
 export class Int64Array extends TypedArray<i64,i64> {
   static readonly BYTES_PER_ELEMENT: usize = sizeof<i64>();
 
+  static from<U>(source: U): Int64Array {
+    var array = new Int64Array(source.length); // tslint:disable-line:no-unsafe-any
+    array.set<U>(source);
+    return array;
+  }
+
+  static of(...values: i64[]): Int64Array {
+    return Int64Array.from<i64[]>(values);
+  }
+
   subarray(begin: i32 = 0, end: i32 = 0x7fffffff): Int64Array {
-    return changetype<Int64Array>(super.subarray(begin, end));
+    return SUBARRAY<Int64Array,i64,i64>(this, begin, end, new Int64Array(0));
+  }
+
+  slice(begin: i32 = 0, end: i32 = 0x7fffffff): Int64Array {
+    return SLICE<Int64Array,i64,i64>(this, begin, end, new Int64Array(0));
+  }
+
+  every(callbackfn: (value: i64, index: i32, array: Int64Array) => bool): bool {
+    return EVERY<Int64Array,i64,i64>(this, callbackfn);
+  }
+
+  some(callbackfn: (value: i64, index: i32, array: Int64Array) => bool): bool {
+    return SOME<Int64Array,i64,i64>(this, callbackfn);
+  }
+
+  forEach(callbackfn: (value: i64, index: i32, array: Int64Array) => void): void {
+    FOREACH<Int64Array,i64,i64>(this, callbackfn);
+  }
+
+  map(callbackfn: (value: i64, index: i32, array: Int64Array) => i64): Int64Array {
+    return MAP<Int64Array,i64,i64>(this, callbackfn, new Int64Array(this.length));
+  }
+
+  filter(callbackfn: (value: i64, index: i32, array: Int64Array) => bool): Int64Array {
+    return FILTER<Int64Array,i64,i64>(this, callbackfn, new Int64Array(0));
+  }
+
+  reduce<U>(
+    callbackfn: (accumulator: U, value: i64, index: i32, array: Int64Array) => U,
+    initialValue: U
+  ): U {
+    return REDUCE<Int64Array,i64,i64,U>(this, callbackfn, initialValue);
+  }
+
+  reduceRight<U>(
+    callbackfn: (accumulator: U, value: i64, index: i32, array: Int64Array) => U,
+    initialValue: U
+  ): U {
+    return REDUCE_RIGHT<Int64Array,i64,i64,U>(this, callbackfn, initialValue);
   }
 }
 
 export class Uint64Array extends TypedArray<u64,u64> {
   static readonly BYTES_PER_ELEMENT: usize = sizeof<u64>();
 
+  static from<U>(source: U): Uint64Array {
+    var array = new Uint64Array(source.length); // tslint:disable-line:no-unsafe-any
+    array.set<U>(source);
+    return array;
+  }
+
+  static of(...values: u64[]): Uint64Array {
+    return Uint64Array.from<u64[]>(values);
+  }
+
   subarray(begin: i32 = 0, end: i32 = 0x7fffffff): Uint64Array {
-    return changetype<Uint64Array>(super.subarray(begin, end));
+    return SUBARRAY<Uint64Array,u64,u64>(this, begin, end, new Uint64Array(0));
+  }
+
+  slice(begin: i32 = 0, end: i32 = 0x7fffffff): Uint64Array {
+    return SLICE<Uint64Array,u64,u64>(this, begin, end, new Uint64Array(0));
+  }
+
+  every(callbackfn: (value: u64, index: i32, array: Uint64Array) => bool): bool {
+    return EVERY<Uint64Array,u64,u64>(this, callbackfn);
+  }
+
+  some(callbackfn: (value: u64, index: i32, array: Uint64Array) => bool): bool {
+    return SOME<Uint64Array,u64,u64>(this, callbackfn);
+  }
+
+  forEach(callbackfn: (value: u64, index: i32, array: Uint64Array) => void): void {
+    FOREACH<Uint64Array,u64,u64>(this, callbackfn);
+  }
+
+  map(callbackfn: (value: u64, index: i32, array: Uint64Array) => u64): Uint64Array {
+    return MAP<Uint64Array,u64,u64>(this, callbackfn, new Uint64Array(this.length));
+  }
+
+  filter(callbackfn: (value: u64, index: i32, array: Uint64Array) => bool): Uint64Array {
+    return FILTER<Uint64Array,u64,u64>(this, callbackfn, new Uint64Array(0));
+  }
+
+  reduce<U>(
+    callbackfn: (accumulator: U, value: u64, index: i32, array: Uint64Array) => U,
+    initialValue: U
+  ): U {
+    return REDUCE<Uint64Array,u64,u64,U>(this, callbackfn, initialValue);
+  }
+
+  reduceRight<U>(
+    callbackfn: (accumulator: U, value: u64, index: i32, array: Uint64Array) => U,
+    initialValue: U
+  ): U {
+    return REDUCE_RIGHT<Uint64Array,u64,u64,U>(this, callbackfn, initialValue);
   }
 }
 
 export class Float32Array extends TypedArray<f32,f32> {
   static readonly BYTES_PER_ELEMENT: usize = sizeof<f32>();
 
+  static from<U>(source: U): Float32Array {
+    var array = new Float32Array(source.length); // tslint:disable-line:no-unsafe-any
+    array.set<U>(source);
+    return array;
+  }
+
+  static of(...values: f32[]): Float32Array {
+    return Float32Array.from<f32[]>(values);
+  }
+
   subarray(begin: i32 = 0, end: i32 = 0x7fffffff): Float32Array {
-    return changetype<Float32Array>(super.subarray(begin, end));
+    return SUBARRAY<Float32Array,f32,f32>(this, begin, end, new Float32Array(0));
+  }
+
+  slice(begin: i32 = 0, end: i32 = 0x7fffffff): Float32Array {
+    return SLICE<Float32Array,f32,f32>(this, begin, end, new Float32Array(0));
+  }
+
+  every(callbackfn: (value: f32, index: i32, array: Float32Array) => bool): bool {
+    return EVERY<Float32Array,f32,f32>(this, callbackfn);
+  }
+
+  some(callbackfn: (value: f32, index: i32, array: Float32Array) => bool): bool {
+    return SOME<Float32Array,f32,f32>(this, callbackfn);
+  }
+
+  forEach(callbackfn: (value: f32, index: i32, array: Float32Array) => void): void {
+    FOREACH<Float32Array,f32,f32>(this, callbackfn);
+  }
+
+  map(callbackfn: (value: f32, index: i32, array: Float32Array) => f32): Float32Array {
+    return MAP<Float32Array,f32,f32>(this, callbackfn, new Float32Array(this.length));
+  }
+
+  filter(callbackfn: (value: f32, index: i32, array: Float32Array) => bool): Float32Array {
+    return FILTER<Float32Array,f32,f32>(this, callbackfn, new Float32Array(0));
+  }
+
+  reduce<U>(
+    callbackfn: (accumulator: U, value: f32, index: i32, array: Float32Array) => U,
+    initialValue: U
+  ): U {
+    return REDUCE<Float32Array,f32,f32,U>(this, callbackfn, initialValue);
+  }
+
+  reduceRight<U>(
+    callbackfn: (accumulator: U, value: f32, index: i32, array: Float32Array) => U,
+    initialValue: U
+  ): U {
+    return REDUCE_RIGHT<Float32Array,f32,f32,U>(this, callbackfn, initialValue);
   }
 }
 
 export class Float64Array extends TypedArray<f64,f64> {
   static readonly BYTES_PER_ELEMENT: usize = sizeof<f64>();
 
+  static from<U>(source: U): Float64Array {
+    var array = new Float64Array(source.length); // tslint:disable-line:no-unsafe-any
+    array.set<U>(source);
+    return array;
+  }
+
+  static of(...values: f64[]): Float64Array {
+    return Float64Array.from<f64[]>(values);
+  }
+
   subarray(begin: i32 = 0, end: i32 = 0x7fffffff): Float64Array {
-    return changetype<Float64Array>(super.subarray(begin, end));
+    return SUBARRAY<Float64Array,f64,f64>(this, begin, end, new Float64Array(0));
+  }
+
+  slice(begin: i32 = 0, end: i32 = 0x7fffffff): Float64Array {
+    return SLICE<Float64Array,f64,f64>(this, begin, end, new Float64Array(0));
+  }
+
+  every(callbackfn: (value: f64, index: i32, array: Float64Array) => bool): bool {
+    return EVERY<Float64Array,f64,f64>(this, callbackfn);
+  }
+
+  some(callbackfn: (value: f64, index: i32, array: Float64Array) => bool): bool {
+    return SOME<Float64Array,f64,f64>(this, callbackfn);
+  }
+
+  forEach(callbackfn: (value: f64, index: i32, array: Float64Array) => void): void {
+    FOREACH<Float64Array,f64,f64>(this, callbackfn);
+  }
+
+  map(callbackfn: (value: f64, index: i32, array: Float64Array) => f64): Float64Array {
+    return MAP<Float64Array,f64,f64>(this, callbackfn, new Float64Array(this.length));
+  }
+
+  filter(callbackfn: (value: f64, index: i32, array: Float64Array) => bool): Float64Array {
+    return FILTER<Float64Array,f64,f64>(this, callbackfn, new Float64Array(0));
+  }
+
+  reduce<U>(
+    callbackfn: (accumulator: U, value: f64, index: i32, array: Float64Array) => U,
+    initialValue: U
+  ): U {
+    return REDUCE<Float64Array,f64,f64,U>(this, callbackfn, initialValue);
+  }
+
+  reduceRight<U>(
+    callbackfn: (accumulator: U, value: f64, index: i32, array: Float64Array) => U,
+    initialValue: U
+  ): U {
+    return REDUCE_RIGHT<Float64Array,f64,f64,U>(this, callbackfn, initialValue);
   }
 }
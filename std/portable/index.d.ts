@@ -88,6 +88,8 @@ declare function isFinite<T = f32 | f64>(value: T): bool;
 declare function isInteger(value: any): value is number;
 /** Tests if the specified value is a valid float. Can't distinguish a float from an integer. */
 declare function isFloat(value: any): value is number;
+/** Tests if the specified value is a boolean. */
+declare function isBoolean(value: any): value is bool;
 /** Tests if the specified value is of a reference type. */
 declare function isReference(value: any): value is object | string;
 /** Tests if the specified value can be used as a string. */
@@ -245,9 +247,14 @@ declare class ArrayBuffer {
 
 declare class Array<T> {
   [key: number]: T;
+  static isArray<U>(value: U): bool;
+  static from<U>(source: Array<U>): Array<U>;
+  static of<U>(...values: U[]): Array<U>;
   length: i32;
   constructor(capacity?: i32);
   every(callbackfn: (element: T, index: i32, array?: Array<T>) => bool): bool;
+  fill(value: T, start?: i32, end?: i32): this;
+  find(predicate: (element: T, index: i32, array?: Array<T>) => bool): T;
   findIndex(predicate: (element: T, index: i32, array?: Array<T>) => bool): i32;
   includes(searchElement: T, fromIndex?: i32): bool;
   indexOf(searchElement: T, fromIndex?: i32): i32;
@@ -256,28 +263,88 @@ declare class Array<T> {
   pop(): T;
   forEach(callbackfn: (value: T, index: i32, array: Array<T>) => void): void;
   map<U>(callbackfn: (value: T, index: i32, array: Array<T>) => U): Array<U>;
+  flat<U>(): Array<U>;
+  flatMap<U>(callbackfn: (value: T, index: i32, array: Array<T>) => Array<U>): Array<U>;
   filter(callbackfn: (value: T, index: i32, array: Array<T>) => bool): Array<T>;
   reduce<U>(callbackfn: (previousValue: U, currentValue: T, currentIndex: i32, array: Array<T>) => U, initialValue: U): U;
   reduceRight<U>(callbackfn: (previousValue: U, currentValue: T, currentIndex: i32, array: Array<T>) => U, initialValue: U): U;
   shift(): T;
   some(callbackfn: (element: T, index: i32, array?: Array<T>) => bool): bool;
   unshift(element: T): i32;
+  concat(items: T[]): T[];
+  copyWithin(target: i32, start?: i32, end?: i32): this;
   slice(from?: i32, to?: i32): T[];
-  splice(start: i32, deleteCount?: i32): void;
+  splice(start: i32, deleteCount?: i32): T[];
   reverse(): T[];
   sort(comparator?: (a: T, b: T) => i32): this;
+  join(separator?: string): string;
+  toString(): string;
+}
 
-  join(delim: string): string;
+declare abstract class TypedArray<T> {
+  [key: number]: T;
+  static readonly BYTES_PER_ELEMENT: usize;
+  constructor(length: i32);
+  readonly buffer: ArrayBuffer;
+  readonly byteOffset: i32;
+  readonly byteLength: i32;
+  readonly length: i32;
+  subarray(begin?: i32, end?: i32): this;
+  slice(begin?: i32, end?: i32): this;
+  fill(value: T, begin?: i32, end?: i32): this;
+  set<U>(source: U, offset?: i32): void;
+  copyWithin(target: i32, begin?: i32, end?: i32): this;
+  indexOf(searchElement: T, fromIndex?: i32): i32;
+  lastIndexOf(searchElement: T, fromIndex?: i32): i32;
+  includes(searchElement: T, fromIndex?: i32): bool;
+  every(callbackfn: (value: T, index: i32, array: this) => bool): bool;
+  some(callbackfn: (value: T, index: i32, array: this) => bool): bool;
+  forEach(callbackfn: (value: T, index: i32, array: this) => void): void;
+  map(callbackfn: (value: T, index: i32, array: this) => T): this;
+  filter(callbackfn: (value: T, index: i32, array: this) => bool): this;
+  reduce<U>(callbackfn: (accumulator: U, value: T, index: i32, array: this) => U, initialValue: U): U;
+  reduceRight<U>(callbackfn: (accumulator: U, value: T, index: i32, array: this) => U, initialValue: U): U;
+  reverse(): this;
+  sort(comparator?: (a: T, b: T) => i32): this;
+  join(separator?: string): string;
 }
 
-declare class Uint8Array extends Array<u8> {}
-declare class Uint16Array extends Array<u16> {}
-declare class Uint32Array extends Array<u32> {}
-declare class Int8Array extends Array<i8> {}
-declare class Int16Array extends Array<i16> {}
-declare class Int32Array extends Array<i32> {}
-declare class Float32Array extends Array<f32> {}
-declare class Float64Array extends Array<f64> {}
+declare class Uint8Array extends TypedArray<u8> {
+  static from<U>(source: U): Uint8Array;
+  static of(...values: u8[]): Uint8Array;
+}
+declare class Uint8ClampedArray extends TypedArray<u8> {
+  static from<U>(source: U): Uint8ClampedArray;
+  static of(...values: i32[]): Uint8ClampedArray;
+}
+declare class Uint16Array extends TypedArray<u16> {
+  static from<U>(source: U): Uint16Array;
+  static of(...values: u16[]): Uint16Array;
+}
+declare class Uint32Array extends TypedArray<u32> {
+  static from<U>(source: U): Uint32Array;
+  static of(...values: u32[]): Uint32Array;
+}
+declare class Int8Array extends TypedArray<i8> {
+  static from<U>(source: U): Int8Array;
+  static of(...values: i8[]): Int8Array;
+}
+declare class Int16Array extends TypedArray<i16> {
+  static from<U>(source: U): Int16Array;
+  static of(...values: i16[]): Int16Array;
+}
+declare class Int32Array extends TypedArray<i32> {
+  static from<U>(source: U): Int32Array;
+  static of(...values: i32[]): Int32Array;
+}
+declare class Float32Array extends TypedArray<f32> {
+  static from<U>(source: U): Float32Array;
+  static of(...values: f32[]): Float32Array;
+}
+declare class Float64Array extends TypedArray<f64> {
+  static from<U>(source: U): Float64Array;
+  static of(...values: f64[]): Float64Array;
+}
 
 declare class String {
 
@@ -194,6 +194,10 @@ globalScope["isFloat"] = function isFloat(arg) {
   return typeof arg === "number";
 };
 
+globalScope["isBoolean"] = function isBoolean(arg) {
+  return typeof arg === "boolean";
+};
+
 globalScope["isReference"] = function isClass(arg) {
   return typeof arg === "object" || typeof arg === "string";
 };
@@ -65,12 +65,21 @@ function getExpectedErrors(filePath) {
   return expectErrorLines.map(line => line.slice(EXPECT_ERROR_PREFIX.length).trim());
 }
 
+// Returns the additional asc flags specified by an optional <basename>.json next to the test.
+function getAscFlags(basename) {
+  const configPath = path.join(basedir, basename + ".json");
+  if (!fs.existsSync(configPath)) return [];
+  const config = JSON.parse(fs.readFileSync(configPath, { encoding: "utf8" }));
+  return config.asc_flags || [];
+}
+
 // TODO: asc's callback is synchronous here. This might change.
 tests.forEach(filename => {
   console.log(colorsUtil.white("Testing compiler/" + filename) + "\n");
 
   const expectedErrors = getExpectedErrors(path.join(basedir, filename));
   const basename = filename.replace(/\.ts$/, "");
+  const ascFlags = getAscFlags(basename);
 
   const stdout = asc.createMemoryStream();
   const stderr = asc.createMemoryStream(chunk => process.stderr.write(chunk.toString().replace(/^(?!$)/mg, "  ")));
@@ -84,10 +93,11 @@ tests.forEach(filename => {
   asc.main( [
     filename,
     "--baseDir", basedir,
-    "--validate",
+    "--validate"
+  ].concat(ascFlags, [
     "--measure",
     "--textFile" // -> stdout
-  ], {
+  ]), {
     stdout: stdout,
     stderr: stderr
   }, err => {
@@ -135,11 +145,12 @@ tests.forEach(filename => {
     var cmd = [
       filename,
       "--baseDir", basedir,
-      "--validate",
+      "--validate"
+    ].concat(ascFlags, [
       "-O3",
       "--measure",
       "--binaryFile" // -> stdout
-    ];
+    ]);
     if (args.create) cmd.push(
       "--textFile", basename + ".optimized.wat"
     );
@@ -153,7 +164,9 @@ tests.forEach(filename => {
 
       // Instantiate
       try {
-        let memory = new WebAssembly.Memory({ initial: 10 });
+        // an imported memory is shared if threads are enabled, with the maximum the compiler picks
+        let shared = ascFlags.some(flag => /\bthreads\b/.test(flag));
+        let memory = new WebAssembly.Memory(shared ? { initial: 10, maximum: 0x8000, shared } : { initial: 10 });
         let exports = {};
 
         function getString(ptr) {
@@ -192,6 +205,10 @@ tests.forEach(filename => {
               mod: function(a, b) { return a % b; }
             },
             JSMath: Math,
+            Date: Date,
+            performance: {
+              now: function() { return performance.now(); }
+            },
 
             // tests/declare
             declare: {
@@ -6,3 +6,6 @@ ASC_OPTIMIZE_LEVEL;
 ASC_SHRINK_LEVEL;
 ASC_FEATURE_MUTABLE_GLOBAL;
 ASC_FEATURE_SIGN_EXTENSION;
+ASC_FEATURE_EXCEPTION_HANDLING;
+ASC_FEATURE_THREADS;
+ASC_FEATURE_MULTI_VALUE;
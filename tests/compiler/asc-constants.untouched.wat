@@ -8,6 +8,9 @@
  (global $ASC_SHRINK_LEVEL i32 (i32.const 0))
  (global $ASC_FEATURE_MUTABLE_GLOBAL i32 (i32.const 0))
  (global $ASC_FEATURE_SIGN_EXTENSION i32 (i32.const 0))
+ (global $ASC_FEATURE_EXCEPTION_HANDLING i32 (i32.const 0))
+ (global $ASC_FEATURE_THREADS i32 (i32.const 0))
+ (global $ASC_FEATURE_MULTI_VALUE i32 (i32.const 0))
  (global $HEAP_BASE i32 (i32.const 8))
  (memory $0 0)
  (export "memory" (memory $0))
@@ -37,5 +40,14 @@
   (drop
    (i32.const 0)
   )
+  (drop
+   (i32.const 0)
+  )
+  (drop
+   (i32.const 0)
+  )
+  (drop
+   (i32.const 0)
+  )
  )
 )
@@ -11,7 +11,8 @@
  (global $builtins/u (mut i32) (i32.const 0))
  (global $builtins/U (mut i64) (i64.const 0))
  (global $builtins/s (mut i32) (i32.const 0))
- (global $builtins/fn (mut i32) (i32.const 0))
+ (global $builtins/fn (mut i32) (i32.const 48))
+ (global $~env (mut i32) (i32.const 0))
  (table 1 1 anyfunc)
  (elem (i32.const 0) $start~anonymous|0)
  (memory $0 1)
@@ -542,10 +543,15 @@
    )
    (unreachable)
   )
+  (set_global $~env
+   (get_global $builtins/fn)
+  )
   (call_indirect (type $iiv)
    (i32.const 1)
    (i32.const 2)
-   (get_global $builtins/fn)
+   (i32.load
+    (get_global $~env)
+   )
   )
   (drop
    (i32.load8_s
@@ -14,7 +14,8 @@
  (global $builtins/u (mut i32) (i32.const 0))
  (global $builtins/U (mut i64) (i64.const 0))
  (global $builtins/s (mut i32) (i32.const 0))
- (global $builtins/fn (mut i32) (i32.const 0))
+ (global $builtins/fn (mut i32) (i32.const 48))
+ (global $~env (mut i32) (i32.const 0))
  (global $~lib/builtins/i8.MIN_VALUE i32 (i32.const -128))
  (global $~lib/builtins/i8.MAX_VALUE i32 (i32.const 127))
  (global $~lib/builtins/i16.MIN_VALUE i32 (i32.const -32768))
@@ -43,12 +44,13 @@
  (global $~lib/builtins/f64.MIN_SAFE_INTEGER f64 (f64.const -9007199254740991))
  (global $~lib/builtins/f64.MAX_SAFE_INTEGER f64 (f64.const 9007199254740991))
  (global $~lib/builtins/f64.EPSILON f64 (f64.const 2.220446049250313e-16))
- (global $HEAP_BASE i32 (i32.const 48))
+ (global $HEAP_BASE i32 (i32.const 56))
  (table 1 1 anyfunc)
  (elem (i32.const 0) $start~anonymous|0)
  (memory $0 1)
  (data (i32.const 8) "\0b\00\00\00b\00u\00i\00l\00t\00i\00n\00s\00.\00t\00s\00")
  (data (i32.const 40) "\01\00\00\001\00")
+ (data (i32.const 48) "\00\00\00\00\00\00\00\00")
  (export "memory" (memory $0))
  (export "table" (table $0))
  (export "test" (func $builtins/test))
@@ -1773,7 +1775,14 @@
   (call_indirect (type $iiv)
    (i32.const 1)
    (i32.const 2)
-   (get_global $builtins/fn)
+   (block (result i32)
+    (set_global $~env
+     (get_global $builtins/fn)
+    )
+    (i32.load
+     (get_global $~env)
+    )
+   )
   )
   (if
    (i32.eqz
@@ -4,7 +4,8 @@
  (type $v (func))
  (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
  (global $~argc (mut i32) (i32.const 0))
- (global $call-optional/optIndirect (mut i32) (i32.const 0))
+ (global $call-optional/optIndirect (mut i32) (i32.const 48))
+ (global $~env (mut i32) (i32.const 0))
  (table 1 1 anyfunc)
  (elem (i32.const 0) $call-optional/opt|trampoline)
  (memory $0 1)
@@ -113,12 +114,17 @@
   (set_global $~argc
    (i32.const 1)
   )
+  (set_global $~env
+   (get_global $call-optional/optIndirect)
+  )
   (if
    (call_indirect (type $iiii)
     (i32.const 3)
     (i32.const 0)
     (i32.const 0)
-    (get_global $call-optional/optIndirect)
+    (i32.load
+     (get_global $~env)
+    )
    )
    (block
     (call $~lib/env/abort
@@ -133,13 +139,18 @@
   (set_global $~argc
    (i32.const 2)
   )
+  (set_global $~env
+   (get_global $call-optional/optIndirect)
+  )
   (if
    (i32.ne
     (call_indirect (type $iiii)
      (i32.const 3)
      (i32.const 4)
      (i32.const 0)
-     (get_global $call-optional/optIndirect)
+     (i32.load
+      (get_global $~env)
+     )
     )
     (i32.const 5)
    )
@@ -156,13 +167,18 @@
   (set_global $~argc
    (i32.const 3)
   )
+  (set_global $~env
+   (get_global $call-optional/optIndirect)
+  )
   (if
    (i32.ne
     (call_indirect (type $iiii)
      (i32.const 3)
      (i32.const 4)
      (i32.const 5)
-     (get_global $call-optional/optIndirect)
+     (i32.load
+      (get_global $~env)
+     )
     )
     (i32.const 12)
    )
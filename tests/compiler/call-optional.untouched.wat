@@ -4,12 +4,14 @@
  (type $v (func))
  (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
  (global $~argc (mut i32) (i32.const 0))
- (global $call-optional/optIndirect (mut i32) (i32.const 0))
- (global $HEAP_BASE i32 (i32.const 44))
+ (global $call-optional/optIndirect (mut i32) (i32.const 48))
+ (global $~env (mut i32) (i32.const 0))
+ (global $HEAP_BASE i32 (i32.const 56))
  (table 1 1 anyfunc)
  (elem (i32.const 0) $call-optional/opt|trampoline)
  (memory $0 1)
  (data (i32.const 8) "\10\00\00\00c\00a\00l\00l\00-\00o\00p\00t\00i\00o\00n\00a\00l\00.\00t\00s\00")
+ (data (i32.const 48) "\00\00\00\00\00\00\00\00")
  (export "memory" (memory $0))
  (export "table" (table $0))
  (start $start)
@@ -135,7 +137,14 @@
        (i32.const 3)
        (i32.const 0)
        (i32.const 0)
-       (get_global $call-optional/optIndirect)
+       (block (result i32)
+        (set_global $~env
+         (get_global $call-optional/optIndirect)
+        )
+        (i32.load
+         (get_global $~env)
+        )
+       )
       )
      )
      (i32.const 0)
@@ -162,7 +171,14 @@
        (i32.const 3)
        (i32.const 4)
        (i32.const 0)
-       (get_global $call-optional/optIndirect)
+       (block (result i32)
+        (set_global $~env
+         (get_global $call-optional/optIndirect)
+        )
+        (i32.load
+         (get_global $~env)
+        )
+       )
       )
      )
      (i32.const 5)
@@ -189,7 +205,14 @@
        (i32.const 3)
        (i32.const 4)
        (i32.const 5)
-       (get_global $call-optional/optIndirect)
+       (block (result i32)
+        (set_global $~env
+         (get_global $call-optional/optIndirect)
+        )
+        (i32.load
+         (get_global $~env)
+        )
+       )
       )
      )
      (i32.const 12)
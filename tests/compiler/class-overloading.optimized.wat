@@ -1,20 +1,204 @@
 (module
- (type $iv (func (param i32)))
+ (type $ii (func (param i32) (result i32)))
+ (type $iiiiv (func (param i32 i32 i32 i32)))
  (type $v (func))
- (type $FUNCSIG$v (func))
- (memory $0 0)
+ (type $FUNCSIG$i (func (result i32)))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
+ (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $RTTI_BASE i32 (i32.const 56))
+ (memory $0 1)
+ (data (i32.const 8) "\14\00\00\00c\00l\00a\00s\00s\00-\00o\00v\00e\00r\00l\00o\00a\00d\00i\00n\00g\00.\00t\00s")
+ (data (i32.const 56) "\05\00\00\00\01")
+ (data (i32.const 72) "\02")
+ (data (i32.const 84) "\03\00\00\00\00\00\00\00\04\00\00\00\04\00\00\00\00\00\00\00\04\00\00\00\05\00\00\00\04\00\00\00\04")
+ (export "RTTI_BASE" (global $RTTI_BASE))
  (export "memory" (memory $0))
  (export "test" (func $class-overloading/test))
  (start $start)
- (func $class-overloading/Foo#baz (; 0 ;) (; has Stack IR ;) (type $FUNCSIG$v)
-  (nop)
+ (func $class-overloading/test (; 1 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $class-overloading/Foo#baz|virtual
+   (get_local $0)
+  )
+ )
+ (func $~lib/allocator/arena/__memory_allocate (; 2 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 1073741824)
+   )
+   (unreachable)
+  )
+  (if
+   (i32.gt_u
+    (tee_local $2
+     (i32.and
+      (i32.add
+       (i32.add
+        (tee_local $1
+         (get_global $~lib/allocator/arena/offset)
+        )
+        (select
+         (get_local $0)
+         (i32.const 1)
+         (i32.gt_u
+          (get_local $0)
+          (i32.const 1)
+         )
+        )
+       )
+       (i32.const 7)
+      )
+      (i32.const -8)
+     )
+    )
+    (i32.shl
+     (tee_local $3
+      (current_memory)
+     )
+     (i32.const 16)
+    )
+   )
+   (if
+    (i32.lt_s
+     (grow_memory
+      (select
+       (get_local $3)
+       (tee_local $0
+        (i32.shr_u
+         (i32.and
+          (i32.add
+           (i32.sub
+            (get_local $2)
+            (get_local $1)
+           )
+           (i32.const 65535)
+          )
+          (i32.const -65536)
+         )
+         (i32.const 16)
+        )
+       )
+       (i32.gt_s
+        (get_local $3)
+        (get_local $0)
+       )
+      )
+     )
+     (i32.const 0)
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_local $2)
+  )
+  (get_local $1)
+ )
+ (func $~lib/memory/memory.allocate (; 3 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (call $~lib/allocator/arena/__memory_allocate
+   (i32.const 8)
+  )
+ )
+ (func $class-overloading/Foo#baz (; 4 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (i32.const 1)
  )
- (func $class-overloading/test (; 1 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+ (func $class-overloading/Bar#baz (; 5 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (i32.const 2)
+ )
+ (func $class-overloading/Foo#baz|virtual (; 6 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
+     )
+    )
+    (i32.const 5)
+   )
+   (return
+    (call $class-overloading/Bar#baz)
+   )
+  )
   (call $class-overloading/Foo#baz)
  )
- (func $start (; 2 ;) (; has Stack IR ;) (type $v)
-  (call $class-overloading/test
-   (i32.const 0)
+ (func $start (; 7 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (set_global $~lib/allocator/arena/startOffset
+   (i32.const 120)
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_global $~lib/allocator/arena/startOffset)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 4)
+  )
+  (if
+   (i32.ne
+    (call $class-overloading/test
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 12)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 5)
+  )
+  (if
+   (i32.ne
+    (call $class-overloading/test
+     (get_local $0)
+    )
+    (i32.const 2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 13)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
   )
  )
 )
@@ -1,12 +1,13 @@
+import "allocator/arena";
+
 class Foo {
-  baz(): void {}
+  baz(): i32 { return 1; }
 }
 class Bar extends Foo {
-  baz(): void {}
+  baz(): i32 { return 2; }
 }
-export function test(foo: Foo): void {
-  foo.baz();
+export function test(foo: Foo): i32 {
+  return foo.baz();
 }
-// FIXME: this results in a call to Foo.baz instead of Bar.baz above.
-// ultimately, overloaded functions should implicitly become virtual.
-test(changetype<Bar>(0));
+assert(test(new Foo()) == 1);
+assert(test(new Bar()) == 2);
@@ -1,22 +1,274 @@
 (module
- (type $iv (func (param i32)))
+ (type $ii (func (param i32) (result i32)))
+ (type $iiiiv (func (param i32 i32 i32 i32)))
  (type $v (func))
- (global $HEAP_BASE i32 (i32.const 8))
- (memory $0 0)
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/internal/allocator/AL_BITS i32 (i32.const 3))
+ (global $~lib/internal/allocator/AL_SIZE i32 (i32.const 8))
+ (global $~lib/internal/allocator/AL_MASK i32 (i32.const 7))
+ (global $~lib/internal/allocator/MAX_SIZE_32 i32 (i32.const 1073741824))
+ (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
+ (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $RTTI_BASE i32 (i32.const 56))
+ (global $HEAP_BASE i32 (i32.const 120))
+ (memory $0 1)
+ (data (i32.const 8) "\14\00\00\00c\00l\00a\00s\00s\00-\00o\00v\00e\00r\00l\00o\00a\00d\00i\00n\00g\00.\00t\00s\00")
+ (data (i32.const 56) "\05\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\02\00\00\00\00\00\00\00\00\00\00\00\03\00\00\00\00\00\00\00\04\00\00\00\04\00\00\00\00\00\00\00\04\00\00\00\05\00\00\00\04\00\00\00\04\00\00\00")
+ (export "RTTI_BASE" (global $RTTI_BASE))
  (export "memory" (memory $0))
  (export "test" (func $class-overloading/test))
  (start $start)
- (func $class-overloading/Foo#baz (; 0 ;) (type $iv) (param $0 i32)
-  (nop)
+ (func $class-overloading/test (; 1 ;) (type $ii) (param $0 i32) (result i32)
+  (call $class-overloading/Foo#baz|virtual
+   (get_local $0)
+  )
+ )
+ (func $~lib/allocator/arena/__memory_allocate (; 2 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (get_global $~lib/internal/allocator/MAX_SIZE_32)
+   )
+   (unreachable)
+  )
+  (set_local $1
+   (get_global $~lib/allocator/arena/offset)
+  )
+  (set_local $4
+   (i32.and
+    (i32.add
+     (i32.add
+      (get_local $1)
+      (select
+       (tee_local $2
+        (get_local $0)
+       )
+       (tee_local $3
+        (i32.const 1)
+       )
+       (i32.gt_u
+        (get_local $2)
+        (get_local $3)
+       )
+      )
+     )
+     (get_global $~lib/internal/allocator/AL_MASK)
+    )
+    (i32.xor
+     (get_global $~lib/internal/allocator/AL_MASK)
+     (i32.const -1)
+    )
+   )
+  )
+  (set_local $5
+   (current_memory)
+  )
+  (if
+   (i32.gt_u
+    (get_local $4)
+    (i32.shl
+     (get_local $5)
+     (i32.const 16)
+    )
+   )
+   (block
+    (set_local $2
+     (i32.shr_u
+      (i32.and
+       (i32.add
+        (i32.sub
+         (get_local $4)
+         (get_local $1)
+        )
+        (i32.const 65535)
+       )
+       (i32.xor
+        (i32.const 65535)
+        (i32.const -1)
+       )
+      )
+      (i32.const 16)
+     )
+    )
+    (set_local $3
+     (select
+      (tee_local $3
+       (get_local $5)
+      )
+      (tee_local $6
+       (get_local $2)
+      )
+      (i32.gt_s
+       (get_local $3)
+       (get_local $6)
+      )
+     )
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $3)
+      )
+      (i32.const 0)
+     )
+     (if
+      (i32.lt_s
+       (grow_memory
+        (get_local $2)
+       )
+       (i32.const 0)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_local $4)
+  )
+  (get_local $1)
  )
- (func $class-overloading/test (; 1 ;) (type $iv) (param $0 i32)
+ (func $~lib/memory/memory.allocate (; 3 ;) (type $ii) (param $0 i32) (result i32)
+  (return
+   (call $~lib/allocator/arena/__memory_allocate
+    (get_local $0)
+   )
+  )
+ )
+ (func $class-overloading/Foo#baz (; 4 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.const 1)
+ )
+ (func $class-overloading/Bar#baz (; 5 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.const 2)
+ )
+ (func $class-overloading/Foo#baz|virtual (; 6 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 5)
+   )
+   (return
+    (call $class-overloading/Bar#baz
+     (get_local $0)
+    )
+   )
+  )
   (call $class-overloading/Foo#baz
    (get_local $0)
   )
  )
- (func $start (; 2 ;) (type $v)
-  (call $class-overloading/test
-   (i32.const 0)
+ (func $start (; 7 ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (set_global $~lib/allocator/arena/startOffset
+   (i32.and
+    (i32.add
+     (get_global $HEAP_BASE)
+     (get_global $~lib/internal/allocator/AL_MASK)
+    )
+    (i32.xor
+     (get_global $~lib/internal/allocator/AL_MASK)
+     (i32.const -1)
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_global $~lib/allocator/arena/startOffset)
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $class-overloading/test
+      (block (result i32)
+       (set_local $0
+        (block (result i32)
+         (i32.store
+          (i32.sub
+           (tee_local $1
+            (i32.add
+             (call $~lib/memory/memory.allocate
+              (i32.const 8)
+             )
+             (i32.const 8)
+            )
+           )
+           (i32.const 4)
+          )
+          (i32.const 4)
+         )
+         (get_local $1)
+        )
+       )
+       (get_local $0)
+      )
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 12)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $class-overloading/test
+      (block (result i32)
+       (set_local $0
+        (block (result i32)
+         (i32.store
+          (i32.sub
+           (tee_local $1
+            (i32.add
+             (call $~lib/memory/memory.allocate
+              (i32.const 8)
+             )
+             (i32.const 8)
+            )
+           )
+           (i32.const 4)
+          )
+          (i32.const 5)
+         )
+         (get_local $1)
+        )
+       )
+       (get_local $0)
+      )
+     )
+     (i32.const 2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 13)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
   )
  )
 )
@@ -1,16 +1,78 @@
-// TODO
-
-// export function outer(): () => () => i32 {
-//   var inner: i32 = 42; // should become a global right away
-//   return function a(): () => i32 {
-//     return function b(): i32 {
-//       return inner++;
-//     };
-//   };
-// }
-
-// var fnA = outer();
-// var fnB = fnA();
-
-// assert(fnB() == 42);
-// assert(fnB() == 43);
+import "allocator/arena";
+
+export function outer(): () => () => i32 {
+  var inner: i32 = 42;
+  return function a(): () => i32 {
+    return function b(): i32 {
+      return inner++;
+    };
+  };
+}
+
+var fnA = outer();
+var fnB = fnA();
+
+assert(fnB() == 42);
+assert(fnB() == 43);
+
+function counter(start: i32): () => i32 {
+  return (): i32 => start++;
+}
+
+var counterA = counter(1);
+var counterB = counter(10);
+assert(counterA() == 1);
+assert(counterB() == 10);
+assert(counterA() == 2);
+assert(counterB() == 11);
+
+function addAll(values: i32[], offset: i32): i32[] {
+  return values.map<i32>((value: i32, index: i32, array: i32[]): i32 => value + offset);
+}
+
+var added = addAll([1, 2, 3], 10);
+assert(added.length == 3);
+assert(added[0] == 11);
+assert(added[1] == 12);
+assert(added[2] == 13);
+
+{
+  let total = 0;
+  let add = (value: i32): void => { total += value; };
+  add(1);
+  add(2);
+  assert(total == 3);
+}
+
+function captureLoopBindings(): i32 {
+  var fns = new Array<() => i32>();
+  for (let i = 0; i < 3; ++i) {
+    fns.push((): i32 => i);
+  }
+  let j = 0;
+  while (j < 3) {
+    let k = j * 10;
+    fns.push((): i32 => k++);
+    ++j;
+  }
+  var values: i32[] = [100, 200];
+  for (let value of values) {
+    fns.push((): i32 => value);
+  }
+  var fn = fns[0];
+  assert(fn() == 0);
+  fn = fns[2];
+  assert(fn() == 2);
+  fn = fns[3];
+  assert(fn() == 0);
+  assert(fn() == 1);
+  fn = fns[5];
+  assert(fn() == 20);
+  fn = fns[6];
+  assert(fn() == 100);
+  fn = fns[7];
+  assert(fn() == 200);
+  return fns.length;
+}
+
+assert(captureLoopBindings() == 8);
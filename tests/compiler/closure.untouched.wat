@@ -1,5 +1,4495 @@
 (module
- (global $HEAP_BASE i32 (i32.const 8))
- (memory $0 0)
+ (type $i (func (result i32)))
+ (type $ii (func (param i32) (result i32)))
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $iii (func (param i32 i32) (result i32)))
+ (type $iiii (func (param i32 i32 i32) (result i32)))
+ (type $iiiv (func (param i32 i32 i32)))
+ (type $iv (func (param i32)))
+ (type $v (func))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/internal/allocator/AL_BITS i32 (i32.const 3))
+ (global $~lib/internal/allocator/AL_SIZE i32 (i32.const 8))
+ (global $~lib/internal/allocator/AL_MASK i32 (i32.const 7))
+ (global $~lib/internal/allocator/MAX_SIZE_32 i32 (i32.const 1073741824))
+ (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
+ (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $~env (mut i32) (i32.const 0))
+ (global $closure/fnA (mut i32) (i32.const 0))
+ (global $~argc (mut i32) (i32.const 0))
+ (global $closure/fnB (mut i32) (i32.const 0))
+ (global $closure/counterA (mut i32) (i32.const 0))
+ (global $closure/counterB (mut i32) (i32.const 0))
+ (global $~lib/internal/arraybuffer/HEADER_SIZE i32 (i32.const 8))
+ (global $~lib/internal/arraybuffer/MAX_BLENGTH i32 (i32.const 1073741816))
+ (global $closure/added (mut i32) (i32.const 0))
+ (global $HEAP_BASE i32 (i32.const 192))
+ (table 8 8 anyfunc)
+ (elem (i32.const 0) $closure/outer~a|0~b|0 $closure/outer~a|0 $closure/counter~anonymous|2 $closure/addAll~anonymous|3 $start~anonymous|4 $closure/captureLoopBindings~anonymous|5 $closure/captureLoopBindings~anonymous|6 $closure/captureLoopBindings~anonymous|7)
+ (memory $0 1)
+ (data (i32.const 8) "\n\00\00\00c\00l\00o\00s\00u\00r\00e\00.\00t\00s\00")
+ (data (i32.const 32) "\0c\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 64) " \00\00\00\03\00\00\00")
+ (data (i32.const 72) "\0d\00\00\00~\00l\00i\00b\00/\00a\00r\00r\00a\00y\00.\00t\00s\00")
+ (data (i32.const 104) "\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s\00")
+ (data (i32.const 168) "\08\00\00\00\00\00\00\00d\00\00\00\c8\00\00\00")
+ (data (i32.const 184) "\a8\00\00\00\02\00\00\00")
  (export "memory" (memory $0))
+ (export "table" (table $0))
+ (export "outer" (func $closure/outer))
+ (start $start)
+ (func $closure/outer~a|0~b|0 (; 1 ;) (type $i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (set_local $0
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (block (result i32)
+   (set_local $1
+    (i32.load offset=4
+     (i32.load
+      (get_local $0)
+     )
+    )
+   )
+   (i32.store offset=4
+    (i32.load
+     (get_local $0)
+    )
+    (i32.add
+     (get_local $1)
+     (i32.const 1)
+    )
+   )
+   (get_local $1)
+  )
+ )
+ (func $~lib/allocator/arena/__memory_allocate (; 2 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (get_global $~lib/internal/allocator/MAX_SIZE_32)
+   )
+   (unreachable)
+  )
+  (set_local $1
+   (get_global $~lib/allocator/arena/offset)
+  )
+  (set_local $4
+   (i32.and
+    (i32.add
+     (i32.add
+      (get_local $1)
+      (select
+       (tee_local $2
+        (get_local $0)
+       )
+       (tee_local $3
+        (i32.const 1)
+       )
+       (i32.gt_u
+        (get_local $2)
+        (get_local $3)
+       )
+      )
+     )
+     (get_global $~lib/internal/allocator/AL_MASK)
+    )
+    (i32.xor
+     (get_global $~lib/internal/allocator/AL_MASK)
+     (i32.const -1)
+    )
+   )
+  )
+  (set_local $5
+   (current_memory)
+  )
+  (if
+   (i32.gt_u
+    (get_local $4)
+    (i32.shl
+     (get_local $5)
+     (i32.const 16)
+    )
+   )
+   (block
+    (set_local $2
+     (i32.shr_u
+      (i32.and
+       (i32.add
+        (i32.sub
+         (get_local $4)
+         (get_local $1)
+        )
+        (i32.const 65535)
+       )
+       (i32.xor
+        (i32.const 65535)
+        (i32.const -1)
+       )
+      )
+      (i32.const 16)
+     )
+    )
+    (set_local $3
+     (select
+      (tee_local $3
+       (get_local $5)
+      )
+      (tee_local $6
+       (get_local $2)
+      )
+      (i32.gt_s
+       (get_local $3)
+       (get_local $6)
+      )
+     )
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $3)
+      )
+      (i32.const 0)
+     )
+     (if
+      (i32.lt_s
+       (grow_memory
+        (get_local $2)
+       )
+       (i32.const 0)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_local $4)
+  )
+  (get_local $1)
+ )
+ (func $~lib/memory/memory.allocate (; 3 ;) (type $ii) (param $0 i32) (result i32)
+  (return
+   (call $~lib/allocator/arena/__memory_allocate
+    (get_local $0)
+   )
+  )
+ )
+ (func $closure/outer~a|0 (; 4 ;) (type $i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (set_local $0
+   (call $~lib/memory/memory.allocate
+    (i32.const 4)
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $2)
+  )
+  (block (result i32)
+   (set_local $1
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.store
+    (get_local $1)
+    (i32.const 0)
+   )
+   (i32.store offset=4
+    (get_local $1)
+    (get_local $0)
+   )
+   (get_local $1)
+  )
+ )
+ (func $closure/outer (; 5 ;) (type $i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (set_local $0
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (block (result i32)
+   (i32.store offset=4
+    (get_local $0)
+    (i32.const 42)
+   )
+   (set_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.store
+    (get_local $2)
+    (i32.const 1)
+   )
+   (i32.store offset=4
+    (get_local $2)
+    (get_local $0)
+   )
+   (get_local $2)
+  )
+ )
+ (func $closure/counter~anonymous|2 (; 6 ;) (type $i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (set_local $0
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (block (result i32)
+   (set_local $1
+    (i32.load offset=4
+     (get_local $0)
+    )
+   )
+   (i32.store offset=4
+    (get_local $0)
+    (i32.add
+     (get_local $1)
+     (i32.const 1)
+    )
+   )
+   (get_local $1)
+  )
+ )
+ (func $closure/counter (; 7 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (set_local $1
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
+   )
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (get_local $0)
+  )
+  (block (result i32)
+   (set_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.store
+    (get_local $2)
+    (i32.const 2)
+   )
+   (i32.store offset=4
+    (get_local $2)
+    (get_local $1)
+   )
+   (get_local $2)
+  )
+ )
+ (func $closure/addAll~anonymous|3 (; 8 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (i32.add
+   (get_local $0)
+   (i32.load offset=4
+    (get_local $3)
+   )
+  )
+ )
+ (func $~lib/internal/arraybuffer/computeSize (; 9 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.shl
+   (i32.const 1)
+   (i32.sub
+    (i32.const 32)
+    (i32.clz
+     (i32.sub
+      (i32.add
+       (get_local $0)
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+      (i32.const 1)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/arraybuffer/allocateUnsafe (; 10 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (i32.le_u
+     (get_local $0)
+     (get_global $~lib/internal/arraybuffer/MAX_BLENGTH)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 23)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $1
+   (block $~lib/memory/memory.allocate|inlined.0 (result i32)
+    (set_local $2
+     (call $~lib/internal/arraybuffer/computeSize
+      (get_local $0)
+     )
+    )
+    (br $~lib/memory/memory.allocate|inlined.0
+     (call $~lib/allocator/arena/__memory_allocate
+      (get_local $2)
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/memory/memset (; 11 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i64)
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return)
+  )
+  (i32.store8
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 1)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 2)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 1)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 2)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 2)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 3)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 6)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 3)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 4)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (set_local $3
+   (i32.and
+    (i32.sub
+     (i32.const 0)
+     (get_local $0)
+    )
+    (i32.const 3)
+   )
+  )
+  (set_local $0
+   (i32.add
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.sub
+    (get_local $2)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.and
+    (get_local $2)
+    (i32.const -4)
+   )
+  )
+  (set_local $4
+   (i32.mul
+    (i32.div_u
+     (i32.const -1)
+     (i32.const 255)
+    )
+    (i32.and
+     (get_local $1)
+     (i32.const 255)
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 4)
+   )
+   (get_local $4)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 4)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 8)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 12)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 8)
+   )
+   (get_local $4)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 24)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 12)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 16)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 20)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 24)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 28)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 24)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 20)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 16)
+   )
+   (get_local $4)
+  )
+  (set_local $3
+   (i32.add
+    (i32.const 24)
+    (i32.and
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (set_local $0
+   (i32.add
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.sub
+    (get_local $2)
+    (get_local $3)
+   )
+  )
+  (set_local $5
+   (i64.or
+    (i64.extend_u/i32
+     (get_local $4)
+    )
+    (i64.shl
+     (i64.extend_u/i32
+      (get_local $4)
+     )
+     (i64.const 32)
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.ge_u
+      (get_local $2)
+      (i32.const 32)
+     )
+     (block
+      (block
+       (i64.store
+        (get_local $0)
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 16)
+        )
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 24)
+        )
+        (get_local $5)
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 32)
+        )
+       )
+       (set_local $0
+        (i32.add
+         (get_local $0)
+         (i32.const 32)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/array/Array<i32>#constructor (; 12 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (i32.gt_u
+    (get_local $1)
+    (i32.const 268435454)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 72)
+     (i32.const 23)
+     (i32.const 39)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $2
+   (i32.shl
+    (get_local $1)
+    (i32.const 2)
+   )
+  )
+  (set_local $3
+   (call $~lib/internal/arraybuffer/allocateUnsafe
+    (get_local $2)
+   )
+  )
+  (i32.store
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $4
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.store
+        (get_local $4)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $4)
+        (i32.const 0)
+       )
+       (get_local $4)
+      )
+     )
+    )
+   )
+   (get_local $3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (block $~lib/memory/memory.fill|inlined.0
+   (set_local $4
+    (i32.add
+     (get_local $3)
+     (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+    )
+   )
+   (set_local $5
+    (i32.const 0)
+   )
+   (call $~lib/internal/memory/memset
+    (get_local $4)
+    (get_local $5)
+    (get_local $2)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/array/Array<i32>#map<i32> (; 13 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (call $~lib/array/Array<i32>#constructor
+    (i32.const 0)
+    (get_local $3)
+   )
+  )
+  (set_local $5
+   (i32.load
+    (get_local $4)
+   )
+  )
+  (block $break|0
+   (set_local $6
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (if (result i32)
+       (tee_local $7
+        (i32.lt_s
+         (get_local $6)
+         (get_local $3)
+        )
+       )
+       (i32.lt_s
+        (get_local $6)
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (get_local $7)
+      )
+     )
+    )
+    (block $~lib/internal/arraybuffer/storeUnsafe<i32,i32>|inlined.0
+     (set_local $7
+      (block (result i32)
+       (set_global $~argc
+        (i32.const 3)
+       )
+       (call_indirect (type $iiii)
+        (block $~lib/internal/arraybuffer/loadUnsafe<i32,i32>|inlined.0 (result i32)
+         (i32.load offset=8
+          (i32.add
+           (get_local $2)
+           (i32.shl
+            (get_local $6)
+            (i32.const 2)
+           )
+          )
+         )
+        )
+        (get_local $6)
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (get_local $1)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
+       )
+      )
+     )
+     (i32.store offset=8
+      (i32.add
+       (get_local $5)
+       (i32.shl
+        (get_local $6)
+        (i32.const 2)
+       )
+      )
+      (get_local $7)
+     )
+    )
+    (set_local $6
+     (i32.add
+      (get_local $6)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $4)
+ )
+ (func $closure/addAll (; 14 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $2
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
+   )
+  )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (get_local $1)
+  )
+  (call $~lib/array/Array<i32>#map<i32>
+   (get_local $0)
+   (block (result i32)
+    (set_local $3
+     (call $~lib/memory/memory.allocate
+      (i32.const 8)
+     )
+    )
+    (i32.store
+     (get_local $3)
+     (i32.const 3)
+    )
+    (i32.store offset=4
+     (get_local $3)
+     (get_local $2)
+    )
+    (get_local $3)
+   )
+  )
+ )
+ (func $~lib/array/Array<i32>#__get (; 15 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if (result i32)
+   (i32.lt_u
+    (get_local $1)
+    (i32.shr_u
+     (i32.load
+      (get_local $2)
+     )
+     (i32.const 2)
+    )
+   )
+   (block $~lib/internal/arraybuffer/loadUnsafe<i32,i32>|inlined.1 (result i32)
+    (i32.load offset=8
+     (i32.add
+      (get_local $2)
+      (i32.shl
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+    )
+   )
+   (unreachable)
+  )
+ )
+ (func $start~anonymous|4 (; 16 ;) (type $iv) (param $0 i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.add
+    (i32.load offset=4
+     (get_local $1)
+    )
+    (get_local $0)
+   )
+  )
+ )
+ (func "$~lib/array/Array<() => i32>#constructor" (; 17 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (i32.gt_u
+    (get_local $1)
+    (i32.const 268435454)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 72)
+     (i32.const 23)
+     (i32.const 39)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $2
+   (i32.shl
+    (get_local $1)
+    (i32.const 2)
+   )
+  )
+  (set_local $3
+   (call $~lib/internal/arraybuffer/allocateUnsafe
+    (get_local $2)
+   )
+  )
+  (i32.store
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $4
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.store
+        (get_local $4)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $4)
+        (i32.const 0)
+       )
+       (get_local $4)
+      )
+     )
+    )
+   )
+   (get_local $3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (block $~lib/memory/memory.fill|inlined.1
+   (set_local $4
+    (i32.add
+     (get_local $3)
+     (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+    )
+   )
+   (set_local $5
+    (i32.const 0)
+   )
+   (call $~lib/internal/memory/memset
+    (get_local $4)
+    (get_local $5)
+    (get_local $2)
+   )
+  )
+  (get_local $0)
+ )
+ (func $closure/captureLoopBindings~anonymous|5 (; 18 ;) (type $i) (result i32)
+  (local $0 i32)
+  (set_local $0
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (i32.load offset=4
+   (get_local $0)
+  )
+ )
+ (func $~lib/internal/memory/memcpy (; 19 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (block $break|0
+   (loop $continue|0
+    (if
+     (if (result i32)
+      (get_local $2)
+      (i32.and
+       (get_local $1)
+       (i32.const 3)
+      )
+      (get_local $2)
+     )
+     (block
+      (block
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (i32.and
+     (get_local $0)
+     (i32.const 3)
+    )
+    (i32.const 0)
+   )
+   (block
+    (block $break|1
+     (loop $continue|1
+      (if
+       (i32.ge_u
+        (get_local $2)
+        (i32.const 16)
+       )
+       (block
+        (block
+         (i32.store
+          (get_local $0)
+          (i32.load
+           (get_local $1)
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 4)
+          )
+          (i32.load
+           (i32.add
+            (get_local $1)
+            (i32.const 4)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 8)
+          )
+          (i32.load
+           (i32.add
+            (get_local $1)
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 12)
+          )
+          (i32.load
+           (i32.add
+            (get_local $1)
+            (i32.const 12)
+           )
+          )
+         )
+         (set_local $1
+          (i32.add
+           (get_local $1)
+           (i32.const 16)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (get_local $0)
+           (i32.const 16)
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 16)
+          )
+         )
+        )
+        (br $continue|1)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 8)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+       (i32.load
+        (i32.add
+         (get_local $1)
+         (i32.const 4)
+        )
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 8)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 8)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 4)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 4)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 2)
+     )
+     (block
+      (i32.store16
+       (get_local $0)
+       (i32.load16_u
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 2)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 1)
+     )
+     (i32.store8
+      (block (result i32)
+       (set_local $5
+        (get_local $0)
+       )
+       (set_local $0
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+      (i32.load8_u
+       (block (result i32)
+        (set_local $5
+         (get_local $1)
+        )
+        (set_local $1
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+      )
+     )
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $2)
+    (i32.const 32)
+   )
+   (block $break|2
+    (block $case2|2
+     (block $case1|2
+      (block $case0|2
+       (set_local $5
+        (i32.and
+         (get_local $0)
+         (i32.const 3)
+        )
+       )
+       (br_if $case0|2
+        (i32.eq
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (br_if $case1|2
+        (i32.eq
+         (get_local $5)
+         (i32.const 2)
+        )
+       )
+       (br_if $case2|2
+        (i32.eq
+         (get_local $5)
+         (i32.const 3)
+        )
+       )
+       (br $break|2)
+      )
+      (block
+       (set_local $3
+        (i32.load
+         (get_local $1)
+        )
+       )
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 3)
+        )
+       )
+       (block $break|3
+        (loop $continue|3
+         (if
+          (i32.ge_u
+           (get_local $2)
+           (i32.const 17)
+          )
+          (block
+           (block
+            (set_local $4
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 1)
+              )
+             )
+            )
+            (i32.store
+             (get_local $0)
+             (i32.or
+              (i32.shr_u
+               (get_local $3)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $4)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 5)
+              )
+             )
+            )
+            (i32.store
+             (i32.add
+              (get_local $0)
+              (i32.const 4)
+             )
+             (i32.or
+              (i32.shr_u
+               (get_local $4)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $3)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $4
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 9)
+              )
+             )
+            )
+            (i32.store
+             (i32.add
+              (get_local $0)
+              (i32.const 8)
+             )
+             (i32.or
+              (i32.shr_u
+               (get_local $3)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $4)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 13)
+              )
+             )
+            )
+            (i32.store
+             (i32.add
+              (get_local $0)
+              (i32.const 12)
+             )
+             (i32.or
+              (i32.shr_u
+               (get_local $4)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $3)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $1
+             (i32.add
+              (get_local $1)
+              (i32.const 16)
+             )
+            )
+            (set_local $0
+             (i32.add
+              (get_local $0)
+              (i32.const 16)
+             )
+            )
+            (set_local $2
+             (i32.sub
+              (get_local $2)
+              (i32.const 16)
+             )
+            )
+           )
+           (br $continue|3)
+          )
+         )
+        )
+       )
+       (br $break|2)
+      )
+     )
+     (block
+      (set_local $3
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store8
+       (block (result i32)
+        (set_local $5
+         (get_local $0)
+        )
+        (set_local $0
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+       (i32.load8_u
+        (block (result i32)
+         (set_local $5
+          (get_local $1)
+         )
+         (set_local $1
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+       )
+      )
+      (i32.store8
+       (block (result i32)
+        (set_local $5
+         (get_local $0)
+        )
+        (set_local $0
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+       (i32.load8_u
+        (block (result i32)
+         (set_local $5
+          (get_local $1)
+         )
+         (set_local $1
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+       )
+      )
+      (set_local $2
+       (i32.sub
+        (get_local $2)
+        (i32.const 2)
+       )
+      )
+      (block $break|4
+       (loop $continue|4
+        (if
+         (i32.ge_u
+          (get_local $2)
+          (i32.const 18)
+         )
+         (block
+          (block
+           (set_local $4
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 2)
+             )
+            )
+           )
+           (i32.store
+            (get_local $0)
+            (i32.or
+             (i32.shr_u
+              (get_local $3)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $4)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 6)
+             )
+            )
+           )
+           (i32.store
+            (i32.add
+             (get_local $0)
+             (i32.const 4)
+            )
+            (i32.or
+             (i32.shr_u
+              (get_local $4)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $3)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $4
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 10)
+             )
+            )
+           )
+           (i32.store
+            (i32.add
+             (get_local $0)
+             (i32.const 8)
+            )
+            (i32.or
+             (i32.shr_u
+              (get_local $3)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $4)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 14)
+             )
+            )
+           )
+           (i32.store
+            (i32.add
+             (get_local $0)
+             (i32.const 12)
+            )
+            (i32.or
+             (i32.shr_u
+              (get_local $4)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $3)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $1
+            (i32.add
+             (get_local $1)
+             (i32.const 16)
+            )
+           )
+           (set_local $0
+            (i32.add
+             (get_local $0)
+             (i32.const 16)
+            )
+           )
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 16)
+            )
+           )
+          )
+          (br $continue|4)
+         )
+        )
+       )
+      )
+      (br $break|2)
+     )
+    )
+    (block
+     (set_local $3
+      (i32.load
+       (get_local $1)
+      )
+     )
+     (i32.store8
+      (block (result i32)
+       (set_local $5
+        (get_local $0)
+       )
+       (set_local $0
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+      (i32.load8_u
+       (block (result i32)
+        (set_local $5
+         (get_local $1)
+        )
+        (set_local $1
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+      )
+     )
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (block $break|5
+      (loop $continue|5
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 19)
+        )
+        (block
+         (block
+          (set_local $4
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 3)
+            )
+           )
+          )
+          (i32.store
+           (get_local $0)
+           (i32.or
+            (i32.shr_u
+             (get_local $3)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $4)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 7)
+            )
+           )
+          )
+          (i32.store
+           (i32.add
+            (get_local $0)
+            (i32.const 4)
+           )
+           (i32.or
+            (i32.shr_u
+             (get_local $4)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $3)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $4
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 11)
+            )
+           )
+          )
+          (i32.store
+           (i32.add
+            (get_local $0)
+            (i32.const 8)
+           )
+           (i32.or
+            (i32.shr_u
+             (get_local $3)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $4)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 15)
+            )
+           )
+          )
+          (i32.store
+           (i32.add
+            (get_local $0)
+            (i32.const 12)
+           )
+           (i32.or
+            (i32.shr_u
+             (get_local $4)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $3)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $1
+           (i32.add
+            (get_local $1)
+            (i32.const 16)
+           )
+          )
+          (set_local $0
+           (i32.add
+            (get_local $0)
+            (i32.const 16)
+           )
+          )
+          (set_local $2
+           (i32.sub
+            (get_local $2)
+            (i32.const 16)
+           )
+          )
+         )
+         (br $continue|5)
+        )
+       )
+      )
+     )
+     (br $break|2)
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 16)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 8)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 4)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 2)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 1)
+   )
+   (i32.store8
+    (block (result i32)
+     (set_local $5
+      (get_local $0)
+     )
+     (set_local $0
+      (i32.add
+       (get_local $5)
+       (i32.const 1)
+      )
+     )
+     (get_local $5)
+    )
+    (i32.load8_u
+     (block (result i32)
+      (set_local $5
+       (get_local $1)
+      )
+      (set_local $1
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/memory/memmove (; 20 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return)
+  )
+  (if
+   (if (result i32)
+    (tee_local $3
+     (i32.le_u
+      (i32.add
+       (get_local $1)
+       (get_local $2)
+      )
+      (get_local $0)
+     )
+    )
+    (get_local $3)
+    (i32.le_u
+     (i32.add
+      (get_local $0)
+      (get_local $2)
+     )
+     (get_local $1)
+    )
+   )
+   (block
+    (call $~lib/internal/memory/memcpy
+     (get_local $0)
+     (get_local $1)
+     (get_local $2)
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.lt_u
+    (get_local $0)
+    (get_local $1)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (block $break|0
+       (loop $continue|0
+        (if
+         (i32.and
+          (get_local $0)
+          (i32.const 7)
+         )
+         (block
+          (block
+           (if
+            (i32.eqz
+             (get_local $2)
+            )
+            (return)
+           )
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 1)
+            )
+           )
+           (i32.store8
+            (block (result i32)
+             (set_local $3
+              (get_local $0)
+             )
+             (set_local $0
+              (i32.add
+               (get_local $3)
+               (i32.const 1)
+              )
+             )
+             (get_local $3)
+            )
+            (i32.load8_u
+             (block (result i32)
+              (set_local $3
+               (get_local $1)
+              )
+              (set_local $1
+               (i32.add
+                (get_local $3)
+                (i32.const 1)
+               )
+              )
+              (get_local $3)
+             )
+            )
+           )
+          )
+          (br $continue|0)
+         )
+        )
+       )
+      )
+      (block $break|1
+       (loop $continue|1
+        (if
+         (i32.ge_u
+          (get_local $2)
+          (i32.const 8)
+         )
+         (block
+          (block
+           (i64.store
+            (get_local $0)
+            (i64.load
+             (get_local $1)
+            )
+           )
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 8)
+            )
+           )
+           (set_local $0
+            (i32.add
+             (get_local $0)
+             (i32.const 8)
+            )
+           )
+           (set_local $1
+            (i32.add
+             (get_local $1)
+             (i32.const 8)
+            )
+           )
+          )
+          (br $continue|1)
+         )
+        )
+       )
+      )
+     )
+    )
+    (block $break|2
+     (loop $continue|2
+      (if
+       (get_local $2)
+       (block
+        (block
+         (i32.store8
+          (block (result i32)
+           (set_local $3
+            (get_local $0)
+           )
+           (set_local $0
+            (i32.add
+             (get_local $3)
+             (i32.const 1)
+            )
+           )
+           (get_local $3)
+          )
+          (i32.load8_u
+           (block (result i32)
+            (set_local $3
+             (get_local $1)
+            )
+            (set_local $1
+             (i32.add
+              (get_local $3)
+              (i32.const 1)
+             )
+            )
+            (get_local $3)
+           )
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+        )
+        (br $continue|2)
+       )
+      )
+     )
+    )
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (block $break|3
+       (loop $continue|3
+        (if
+         (i32.and
+          (i32.add
+           (get_local $0)
+           (get_local $2)
+          )
+          (i32.const 7)
+         )
+         (block
+          (block
+           (if
+            (i32.eqz
+             (get_local $2)
+            )
+            (return)
+           )
+           (i32.store8
+            (i32.add
+             (get_local $0)
+             (tee_local $2
+              (i32.sub
+               (get_local $2)
+               (i32.const 1)
+              )
+             )
+            )
+            (i32.load8_u
+             (i32.add
+              (get_local $1)
+              (get_local $2)
+             )
+            )
+           )
+          )
+          (br $continue|3)
+         )
+        )
+       )
+      )
+      (block $break|4
+       (loop $continue|4
+        (if
+         (i32.ge_u
+          (get_local $2)
+          (i32.const 8)
+         )
+         (block
+          (block
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 8)
+            )
+           )
+           (i64.store
+            (i32.add
+             (get_local $0)
+             (get_local $2)
+            )
+            (i64.load
+             (i32.add
+              (get_local $1)
+              (get_local $2)
+             )
+            )
+           )
+          )
+          (br $continue|4)
+         )
+        )
+       )
+      )
+     )
+    )
+    (block $break|5
+     (loop $continue|5
+      (if
+       (get_local $2)
+       (block
+        (i32.store8
+         (i32.add
+          (get_local $0)
+          (tee_local $2
+           (i32.sub
+            (get_local $2)
+            (i32.const 1)
+           )
+          )
+         )
+         (i32.load8_u
+          (i32.add
+           (get_local $1)
+           (get_local $2)
+          )
+         )
+        )
+        (br $continue|5)
+       )
+      )
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/arraybuffer/reallocateUnsafe (; 21 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.gt_s
+    (get_local $1)
+    (get_local $2)
+   )
+   (block
+    (if
+     (i32.eqz
+      (i32.le_s
+       (get_local $1)
+       (get_global $~lib/internal/arraybuffer/MAX_BLENGTH)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 104)
+       (i32.const 37)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.le_s
+      (get_local $1)
+      (i32.sub
+       (call $~lib/internal/arraybuffer/computeSize
+        (get_local $2)
+       )
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (get_local $1)
+      )
+      (block $~lib/memory/memory.fill|inlined.2
+       (set_local $3
+        (i32.add
+         (i32.add
+          (get_local $0)
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (get_local $2)
+        )
+       )
+       (set_local $4
+        (i32.const 0)
+       )
+       (set_local $5
+        (i32.sub
+         (get_local $1)
+         (get_local $2)
+        )
+       )
+       (call $~lib/internal/memory/memset
+        (get_local $3)
+        (get_local $4)
+        (get_local $5)
+       )
+      )
+     )
+     (block
+      (set_local $5
+       (call $~lib/internal/arraybuffer/allocateUnsafe
+        (get_local $1)
+       )
+      )
+      (block $~lib/memory/memory.copy|inlined.0
+       (set_local $4
+        (i32.add
+         (get_local $5)
+         (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+        )
+       )
+       (set_local $3
+        (i32.add
+         (get_local $0)
+         (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+        )
+       )
+       (call $~lib/internal/memory/memmove
+        (get_local $4)
+        (get_local $3)
+        (get_local $2)
+       )
+      )
+      (block $~lib/memory/memory.fill|inlined.3
+       (set_local $3
+        (i32.add
+         (i32.add
+          (get_local $5)
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (get_local $2)
+        )
+       )
+       (set_local $4
+        (i32.const 0)
+       )
+       (set_local $6
+        (i32.sub
+         (get_local $1)
+         (get_local $2)
+        )
+       )
+       (call $~lib/internal/memory/memset
+        (get_local $3)
+        (get_local $4)
+        (get_local $6)
+       )
+      )
+      (return
+       (get_local $5)
+      )
+     )
+    )
+   )
+   (if
+    (i32.lt_s
+     (get_local $1)
+     (get_local $2)
+    )
+    (block
+     (if
+      (i32.eqz
+       (i32.ge_s
+        (get_local $1)
+        (i32.const 0)
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 104)
+        (i32.const 61)
+        (i32.const 4)
+       )
+       (unreachable)
+      )
+     )
+     (i32.store
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func "$~lib/array/Array<() => i32>#push" (; 22 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.shr_u
+    (i32.load
+     (get_local $3)
+    )
+    (i32.const 2)
+   )
+  )
+  (set_local $5
+   (i32.add
+    (get_local $2)
+    (i32.const 1)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $2)
+    (get_local $4)
+   )
+   (block
+    (if
+     (i32.ge_u
+      (get_local $2)
+      (i32.const 268435454)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 72)
+       (i32.const 193)
+       (i32.const 42)
+      )
+      (unreachable)
+     )
+    )
+    (set_local $3
+     (call $~lib/internal/arraybuffer/reallocateUnsafe
+      (get_local $3)
+      (i32.shl
+       (get_local $5)
+       (i32.const 2)
+      )
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (get_local $3)
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $5)
+  )
+  (block "$~lib/internal/arraybuffer/storeUnsafe<() => i32,() => i32>|inlined.0"
+   (i32.store offset=8
+    (i32.add
+     (get_local $3)
+     (i32.shl
+      (get_local $2)
+      (i32.const 2)
+     )
+    )
+    (get_local $1)
+   )
+  )
+  (get_local $5)
+ )
+ (func $closure/captureLoopBindings~anonymous|6 (; 23 ;) (type $i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (set_local $0
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (block (result i32)
+   (set_local $1
+    (i32.load offset=4
+     (get_local $0)
+    )
+   )
+   (i32.store offset=4
+    (get_local $0)
+    (i32.add
+     (get_local $1)
+     (i32.const 1)
+    )
+   )
+   (get_local $1)
+  )
+ )
+ (func $~lib/array/Array<i32>#__unchecked_get (; 24 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (block $~lib/internal/arraybuffer/loadUnsafe<i32,i32>|inlined.2 (result i32)
+   (set_local $2
+    (i32.load
+     (get_local $0)
+    )
+   )
+   (i32.load offset=8
+    (i32.add
+     (get_local $2)
+     (i32.shl
+      (get_local $1)
+      (i32.const 2)
+     )
+    )
+   )
+  )
+ )
+ (func $closure/captureLoopBindings~anonymous|7 (; 25 ;) (type $i) (result i32)
+  (local $0 i32)
+  (set_local $0
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (i32.load offset=4
+   (get_local $0)
+  )
+ )
+ (func "$~lib/array/Array<() => i32>#__get" (; 26 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if (result i32)
+   (i32.lt_u
+    (get_local $1)
+    (i32.shr_u
+     (i32.load
+      (get_local $2)
+     )
+     (i32.const 2)
+    )
+   )
+   (block "$~lib/internal/arraybuffer/loadUnsafe<() => i32,() => i32>|inlined.0" (result i32)
+    (i32.load offset=8
+     (i32.add
+      (get_local $2)
+      (i32.shl
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+    )
+   )
+   (unreachable)
+  )
+ )
+ (func $closure/captureLoopBindings (; 27 ;) (type $i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (local $13 i32)
+  (set_local $2
+   (call $~lib/memory/memory.allocate
+    (i32.const 4)
+   )
+  )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block (result i32)
+   (set_local $0
+    (call "$~lib/array/Array<() => i32>#constructor"
+     (i32.const 0)
+     (i32.const 0)
+    )
+   )
+   (block $break|0
+    (block
+     (block
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 8)
+       )
+      )
+      (i32.store
+       (get_local $3)
+       (get_local $2)
+      )
+      (i32.store offset=4
+       (get_local $3)
+       (i32.const 0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $3)
+      (i32.const 0)
+     )
+    )
+    (loop $repeat|0
+     (br_if $break|0
+      (i32.eqz
+       (i32.lt_s
+        (i32.load offset=4
+         (get_local $3)
+        )
+        (i32.const 3)
+       )
+      )
+     )
+     (drop
+      (call "$~lib/array/Array<() => i32>#push"
+       (get_local $0)
+       (block (result i32)
+        (set_local $4
+         (call $~lib/memory/memory.allocate
+          (i32.const 8)
+         )
+        )
+        (i32.store
+         (get_local $4)
+         (i32.const 5)
+        )
+        (i32.store offset=4
+         (get_local $4)
+         (get_local $3)
+        )
+        (get_local $4)
+       )
+      )
+     )
+     (set_local $4
+      (get_local $3)
+     )
+     (set_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (i32.store
+      (get_local $3)
+      (i32.load
+       (get_local $4)
+      )
+     )
+     (i32.store offset=4
+      (get_local $3)
+      (i32.load offset=4
+       (get_local $4)
+      )
+     )
+     (i32.store offset=4
+      (get_local $3)
+      (i32.add
+       (i32.load offset=4
+        (get_local $3)
+       )
+       (i32.const 1)
+      )
+     )
+     (br $repeat|0)
+    )
+   )
+   (set_local $4
+    (i32.const 0)
+   )
+   (block $break|1
+    (loop $continue|1
+     (if
+      (i32.lt_s
+       (get_local $4)
+       (i32.const 3)
+      )
+      (block
+       (block
+        (block
+         (set_local $6
+          (call $~lib/memory/memory.allocate
+           (i32.const 8)
+          )
+         )
+         (i32.store
+          (get_local $6)
+          (get_local $2)
+         )
+         (i32.store offset=4
+          (get_local $6)
+          (i32.const 0)
+         )
+        )
+        (i32.store offset=4
+         (get_local $6)
+         (i32.mul
+          (get_local $4)
+          (i32.const 10)
+         )
+        )
+        (drop
+         (call "$~lib/array/Array<() => i32>#push"
+          (get_local $0)
+          (block (result i32)
+           (set_local $7
+            (call $~lib/memory/memory.allocate
+             (i32.const 8)
+            )
+           )
+           (i32.store
+            (get_local $7)
+            (i32.const 6)
+           )
+           (i32.store offset=4
+            (get_local $7)
+            (get_local $6)
+           )
+           (get_local $7)
+          )
+         )
+        )
+        (set_local $4
+         (i32.add
+          (get_local $4)
+          (i32.const 1)
+         )
+        )
+       )
+       (br $continue|1)
+      )
+     )
+    )
+   )
+   (set_local $8
+    (i32.const 184)
+   )
+   (block $break|2
+    (set_local $7
+     (get_local $8)
+    )
+    (set_local $9
+     (i32.const 0)
+    )
+    (loop $repeat|2
+     (br_if $break|2
+      (i32.ge_s
+       (get_local $9)
+       (i32.load offset=4
+        (get_local $7)
+       )
+      )
+     )
+     (block
+      (block
+       (set_local $11
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.store
+        (get_local $11)
+        (get_local $2)
+       )
+       (i32.store offset=4
+        (get_local $11)
+        (i32.const 0)
+       )
+      )
+      (i32.store offset=4
+       (get_local $11)
+       (call $~lib/array/Array<i32>#__unchecked_get
+        (get_local $7)
+        (get_local $9)
+       )
+      )
+     )
+     (drop
+      (call "$~lib/array/Array<() => i32>#push"
+       (get_local $0)
+       (block (result i32)
+        (set_local $12
+         (call $~lib/memory/memory.allocate
+          (i32.const 8)
+         )
+        )
+        (i32.store
+         (get_local $12)
+         (i32.const 7)
+        )
+        (i32.store offset=4
+         (get_local $12)
+         (get_local $11)
+        )
+        (get_local $12)
+       )
+      )
+     )
+     (set_local $9
+      (i32.add
+       (get_local $9)
+       (i32.const 1)
+      )
+     )
+     (br $repeat|2)
+    )
+   )
+   (set_local $13
+    (call "$~lib/array/Array<() => i32>#__get"
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (block (result i32)
+       (set_global $~argc
+        (i32.const 0)
+       )
+       (call_indirect (type $i)
+        (block (result i32)
+         (set_global $~env
+          (get_local $13)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
+       )
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 8)
+      (i32.const 63)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (set_local $13
+    (call "$~lib/array/Array<() => i32>#__get"
+     (get_local $0)
+     (i32.const 2)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (block (result i32)
+       (set_global $~argc
+        (i32.const 0)
+       )
+       (call_indirect (type $i)
+        (block (result i32)
+         (set_global $~env
+          (get_local $13)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
+       )
+      )
+      (i32.const 2)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 8)
+      (i32.const 65)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (set_local $13
+    (call "$~lib/array/Array<() => i32>#__get"
+     (get_local $0)
+     (i32.const 3)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (block (result i32)
+       (set_global $~argc
+        (i32.const 0)
+       )
+       (call_indirect (type $i)
+        (block (result i32)
+         (set_global $~env
+          (get_local $13)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
+       )
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 8)
+      (i32.const 67)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (block (result i32)
+       (set_global $~argc
+        (i32.const 0)
+       )
+       (call_indirect (type $i)
+        (block (result i32)
+         (set_global $~env
+          (get_local $13)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 8)
+      (i32.const 68)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (set_local $13
+    (call "$~lib/array/Array<() => i32>#__get"
+     (get_local $0)
+     (i32.const 5)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (block (result i32)
+       (set_global $~argc
+        (i32.const 0)
+       )
+       (call_indirect (type $i)
+        (block (result i32)
+         (set_global $~env
+          (get_local $13)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
+       )
+      )
+      (i32.const 20)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 8)
+      (i32.const 70)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (set_local $13
+    (call "$~lib/array/Array<() => i32>#__get"
+     (get_local $0)
+     (i32.const 6)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (block (result i32)
+       (set_global $~argc
+        (i32.const 0)
+       )
+       (call_indirect (type $i)
+        (block (result i32)
+         (set_global $~env
+          (get_local $13)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
+       )
+      )
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 8)
+      (i32.const 72)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (set_local $13
+    (call "$~lib/array/Array<() => i32>#__get"
+     (get_local $0)
+     (i32.const 7)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (block (result i32)
+       (set_global $~argc
+        (i32.const 0)
+       )
+       (call_indirect (type $i)
+        (block (result i32)
+         (set_global $~env
+          (get_local $13)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
+       )
+      )
+      (i32.const 200)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 8)
+      (i32.const 74)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block "$~lib/array/Array<() => i32>#get:length|inlined.0" (result i32)
+    (i32.load offset=4
+     (get_local $0)
+    )
+   )
+  )
+ )
+ (func $start (; 28 ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (set_global $~lib/allocator/arena/startOffset
+   (i32.and
+    (i32.add
+     (get_global $HEAP_BASE)
+     (get_global $~lib/internal/allocator/AL_MASK)
+    )
+    (i32.xor
+     (get_global $~lib/internal/allocator/AL_MASK)
+     (i32.const -1)
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_global $~lib/allocator/arena/startOffset)
+  )
+  (set_global $closure/fnA
+   (call $closure/outer)
+  )
+  (set_global $closure/fnB
+   (block (result i32)
+    (set_global $~argc
+     (i32.const 0)
+    )
+    (call_indirect (type $i)
+     (block (result i32)
+      (set_global $~env
+       (get_global $closure/fnA)
+      )
+      (i32.load
+       (get_global $~env)
+      )
+     )
+    )
+   )
+  )
+  (set_local $2
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
+   )
+  )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 0)
+      )
+      (call_indirect (type $i)
+       (block (result i32)
+        (set_global $~env
+         (get_global $closure/fnB)
+        )
+        (i32.load
+         (get_global $~env)
+        )
+       )
+      )
+     )
+     (i32.const 42)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 15)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 0)
+      )
+      (call_indirect (type $i)
+       (block (result i32)
+        (set_global $~env
+         (get_global $closure/fnB)
+        )
+        (i32.load
+         (get_global $~env)
+        )
+       )
+      )
+     )
+     (i32.const 43)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 16)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $closure/counterA
+   (call $closure/counter
+    (i32.const 1)
+   )
+  )
+  (set_global $closure/counterB
+   (call $closure/counter
+    (i32.const 10)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 0)
+      )
+      (call_indirect (type $i)
+       (block (result i32)
+        (set_global $~env
+         (get_global $closure/counterA)
+        )
+        (i32.load
+         (get_global $~env)
+        )
+       )
+      )
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 24)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 0)
+      )
+      (call_indirect (type $i)
+       (block (result i32)
+        (set_global $~env
+         (get_global $closure/counterB)
+        )
+        (i32.load
+         (get_global $~env)
+        )
+       )
+      )
+     )
+     (i32.const 10)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 25)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 0)
+      )
+      (call_indirect (type $i)
+       (block (result i32)
+        (set_global $~env
+         (get_global $closure/counterA)
+        )
+        (i32.load
+         (get_global $~env)
+        )
+       )
+      )
+     )
+     (i32.const 2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 26)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 0)
+      )
+      (call_indirect (type $i)
+       (block (result i32)
+        (set_global $~env
+         (get_global $closure/counterB)
+        )
+        (i32.load
+         (get_global $~env)
+        )
+       )
+      )
+     )
+     (i32.const 11)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 27)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $closure/added
+   (call $closure/addAll
+    (i32.const 64)
+    (i32.const 10)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block $~lib/array/Array<i32>#get:length|inlined.0 (result i32)
+      (set_local $0
+       (get_global $closure/added)
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.const 3)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 34)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/array/Array<i32>#__get
+      (get_global $closure/added)
+      (i32.const 0)
+     )
+     (i32.const 11)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 35)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/array/Array<i32>#__get
+      (get_global $closure/added)
+      (i32.const 1)
+     )
+     (i32.const 12)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 36)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/array/Array<i32>#__get
+      (get_global $closure/added)
+      (i32.const 2)
+     )
+     (i32.const 13)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 37)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (block
+   (i32.store offset=4
+    (get_local $2)
+    (i32.const 0)
+   )
+   (set_local $0
+    (block (result i32)
+     (set_local $0
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (i32.store
+      (get_local $0)
+      (i32.const 4)
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (get_local $2)
+     )
+     (get_local $0)
+    )
+   )
+   (set_global $~argc
+    (i32.const 1)
+   )
+   (call_indirect (type $iv)
+    (i32.const 1)
+    (block (result i32)
+     (set_global $~env
+      (get_local $0)
+     )
+     (i32.load
+      (get_global $~env)
+     )
+    )
+   )
+   (set_global $~argc
+    (i32.const 1)
+   )
+   (call_indirect (type $iv)
+    (i32.const 2)
+    (block (result i32)
+     (set_global $~env
+      (get_local $0)
+     )
+     (i32.load
+      (get_global $~env)
+     )
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 3)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 8)
+      (i32.const 44)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $closure/captureLoopBindings)
+     (i32.const 8)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 78)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+ )
 )
@@ -1,5 +1,6 @@
 (module
  (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $ii (func (param i32) (result i32)))
  (type $v (func))
  (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
  (global $do/n (mut i32) (i32.const 10))
@@ -9,7 +10,18 @@
  (data (i32.const 8) "\05\00\00\00d\00o\00.\00t\00s")
  (export "memory" (memory $0))
  (start $start)
- (func $start (; 1 ;) (; has Stack IR ;) (type $v)
+ (func $do/doReturnAfterBreak (; 1 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (i32.const 2)
+ )
+ (func $start (; 2 ;) (; has Stack IR ;) (type $v)
   (local $0 i32)
   (loop $continue|0
    (set_global $do/n
@@ -195,5 +207,39 @@
     (unreachable)
    )
   )
+  (if
+   (i32.ne
+    (call $do/doReturnAfterBreak
+     (i32.const 0)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 39)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $do/doReturnAfterBreak
+     (i32.const 1)
+    )
+    (i32.const 2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 40)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
  )
 )
@@ -27,3 +27,14 @@ do {
 assert(n == 0);
 assert(m == 1);
 assert(o == 9);
+
+function doReturnAfterBreak(n: i32): i32 {
+  do {
+    if (n) break;
+    return 1;
+  } while (false);
+  return 2;
+}
+
+assert(doReturnAfterBreak(0) == 1);
+assert(doReturnAfterBreak(1) == 2);
@@ -1,5 +1,6 @@
 (module
  (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $ii (func (param i32) (result i32)))
  (type $v (func))
  (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
  (global $do/n (mut i32) (i32.const 10))
@@ -10,7 +11,22 @@
  (data (i32.const 8) "\05\00\00\00d\00o\00.\00t\00s\00")
  (export "memory" (memory $0))
  (start $start)
- (func $start (; 1 ;) (type $v)
+ (func $do/doReturnAfterBreak (; 1 ;) (type $ii) (param $0 i32) (result i32)
+  (block $break|0
+   (loop $continue|0
+    (if
+     (get_local $0)
+     (br $break|0)
+    )
+    (return
+     (i32.const 1)
+    )
+   )
+   (unreachable)
+  )
+  (i32.const 2)
+ )
+ (func $start (; 2 ;) (type $v)
   (local $0 i32)
   (block $break|0
    (loop $continue|0
@@ -239,5 +255,43 @@
     (unreachable)
    )
   )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $do/doReturnAfterBreak
+      (i32.const 0)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 39)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $do/doReturnAfterBreak
+      (i32.const 1)
+     )
+     (i32.const 2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 40)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
  )
 )
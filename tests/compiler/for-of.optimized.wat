@@ -0,0 +1,3501 @@
+(module
+ (type $iii (func (param i32 i32) (result i32)))
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $ii (func (param i32) (result i32)))
+ (type $iiiv (func (param i32 i32 i32)))
+ (type $iI (func (param i32) (result i64)))
+ (type $v (func))
+ (type $FUNCSIG$vii (func (param i32 i32)))
+ (type $FUNCSIG$ii (func (param i32) (result i32)))
+ (type $FUNCSIG$i (func (result i32)))
+ (type $FUNCSIG$viiii (func (param i32 i32 i32 i32)))
+ (type $FUNCSIG$iiii (func (param i32 i32 i32) (result i32)))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
+ (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $for-of/array (mut i32) (i32.const 40))
+ (global $for-of/sum (mut i32) (i32.const 0))
+ (global $for-of/count (mut i32) (i32.const 0))
+ (global $for-of/str (mut i32) (i32.const 168))
+ (global $for-of/countdown (mut i32) (i32.const 0))
+ (global $RTTI_BASE i32 (i32.const 296))
+ (memory $0 1)
+ (data (i32.const 8) "\0c\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03")
+ (data (i32.const 40) "\08\00\00\00\03")
+ (data (i32.const 48) "\t\00\00\00f\00o\00r\00-\00o\00f\00.\00t\00s")
+ (data (i32.const 72) "\0d\00\00\00~\00l\00i\00b\00/\00a\00r\00r\00a\00y\00.\00t\00s")
+ (data (i32.const 104) "\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s")
+ (data (i32.const 176) "\04\00\00\00a\00=\d8\00\deb")
+ (data (i32.const 192) "\04\00\00\00n\00u\00l\00l")
+ (data (i32.const 208) "\0e\00\00\00~\00l\00i\00b\00/\00s\00t\00r\00i\00n\00g\00.\00t\00s")
+ (data (i32.const 240) "\17\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00s\00t\00r\00i\00n\00g\00.\00t\00s")
+ (data (i32.const 296) "\n\00\00\00\01")
+ (data (i32.const 312) "\02")
+ (data (i32.const 324) "\03\00\00\00\00\00\00\00\04\00\00\00\04")
+ (data (i32.const 348) "\05\00\00\00\00\00\00\00\04\00\00\00\06\00\00\00\05\00\00\00\04\00\00\00\07\00\00\00\06\00\00\00\04\00\00\00\08\00\00\00\00\00\00\00\04\00\00\00\t\00\00\00\08\00\00\00\04\00\00\00\n\00\00\00\t\00\00\00\04")
+ (export "RTTI_BASE" (global $RTTI_BASE))
+ (export "memory" (memory $0))
+ (start $start)
+ (func $~lib/array/Array<i32>#__unchecked_get (; 1 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.load offset=8
+   (i32.add
+    (i32.load
+     (get_local $0)
+    )
+    (i32.shl
+     (get_local $1)
+     (i32.const 2)
+    )
+   )
+  )
+ )
+ (func $~lib/internal/arraybuffer/computeSize (; 2 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.shl
+   (i32.const 1)
+   (i32.sub
+    (i32.const 32)
+    (i32.clz
+     (i32.add
+      (get_local $0)
+      (i32.const 7)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/memory/memset (; 3 ;) (; has Stack IR ;) (type $FUNCSIG$vii) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (return)
+  )
+  (i32.store8
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $1)
+    )
+    (i32.const 1)
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.le_u
+    (get_local $1)
+    (i32.const 2)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 1)
+   )
+   (i32.const 0)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 2)
+   )
+   (i32.const 0)
+  )
+  (i32.store8
+   (i32.sub
+    (tee_local $2
+     (i32.add
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+    (i32.const 2)
+   )
+   (i32.const 0)
+  )
+  (i32.store8
+   (i32.sub
+    (get_local $2)
+    (i32.const 3)
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.le_u
+    (get_local $1)
+    (i32.const 6)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 3)
+   )
+   (i32.const 0)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $1)
+    )
+    (i32.const 4)
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.le_u
+    (get_local $1)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (i32.store
+   (tee_local $0
+    (i32.add
+     (get_local $0)
+     (tee_local $2
+      (i32.and
+       (i32.sub
+        (i32.const 0)
+        (get_local $0)
+       )
+       (i32.const 3)
+      )
+     )
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (tee_local $1
+      (i32.and
+       (i32.sub
+        (get_local $1)
+        (get_local $2)
+       )
+       (i32.const -4)
+      )
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.le_u
+    (get_local $1)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 4)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 8)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $2
+     (i32.add
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+    (i32.const 12)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (get_local $2)
+    (i32.const 8)
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.le_u
+    (get_local $1)
+    (i32.const 24)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 12)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 16)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 20)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 24)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $2
+     (i32.add
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+    (i32.const 28)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (get_local $2)
+    (i32.const 24)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (get_local $2)
+    (i32.const 20)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (get_local $2)
+    (i32.const 16)
+   )
+   (i32.const 0)
+  )
+  (set_local $0
+   (i32.add
+    (get_local $0)
+    (tee_local $2
+     (i32.add
+      (i32.and
+       (get_local $0)
+       (i32.const 4)
+      )
+      (i32.const 24)
+     )
+    )
+   )
+  )
+  (set_local $1
+   (i32.sub
+    (get_local $1)
+    (get_local $2)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.ge_u
+     (get_local $1)
+     (i32.const 32)
+    )
+    (block
+     (i64.store
+      (get_local $0)
+      (i64.const 0)
+     )
+     (i64.store
+      (i32.add
+       (get_local $0)
+       (i32.const 8)
+      )
+      (i64.const 0)
+     )
+     (i64.store
+      (i32.add
+       (get_local $0)
+       (i32.const 16)
+      )
+      (i64.const 0)
+     )
+     (i64.store
+      (i32.add
+       (get_local $0)
+       (i32.const 24)
+      )
+      (i64.const 0)
+     )
+     (set_local $1
+      (i32.sub
+       (get_local $1)
+       (i32.const 32)
+      )
+     )
+     (set_local $0
+      (i32.add
+       (get_local $0)
+       (i32.const 32)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+ )
+ (func $~lib/allocator/arena/__memory_allocate (; 4 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 1073741824)
+   )
+   (unreachable)
+  )
+  (if
+   (i32.gt_u
+    (tee_local $2
+     (i32.and
+      (i32.add
+       (i32.add
+        (tee_local $1
+         (get_global $~lib/allocator/arena/offset)
+        )
+        (select
+         (get_local $0)
+         (i32.const 1)
+         (i32.gt_u
+          (get_local $0)
+          (i32.const 1)
+         )
+        )
+       )
+       (i32.const 7)
+      )
+      (i32.const -8)
+     )
+    )
+    (i32.shl
+     (tee_local $3
+      (current_memory)
+     )
+     (i32.const 16)
+    )
+   )
+   (if
+    (i32.lt_s
+     (grow_memory
+      (select
+       (get_local $3)
+       (tee_local $0
+        (i32.shr_u
+         (i32.and
+          (i32.add
+           (i32.sub
+            (get_local $2)
+            (get_local $1)
+           )
+           (i32.const 65535)
+          )
+          (i32.const -65536)
+         )
+         (i32.const 16)
+        )
+       )
+       (i32.gt_s
+        (get_local $3)
+        (get_local $0)
+       )
+      )
+     )
+     (i32.const 0)
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_local $2)
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/arraybuffer/allocateUnsafe (; 5 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 1073741816)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 23)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $1
+    (call $~lib/allocator/arena/__memory_allocate
+     (call $~lib/internal/arraybuffer/computeSize
+      (get_local $0)
+     )
+    )
+   )
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/memory/memcpy (; 6 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (loop $continue|0
+   (if
+    (tee_local $3
+     (if (result i32)
+      (get_local $2)
+      (i32.and
+       (get_local $1)
+       (i32.const 3)
+      )
+      (get_local $2)
+     )
+    )
+    (block
+     (set_local $0
+      (i32.add
+       (tee_local $4
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (tee_local $3
+        (get_local $1)
+       )
+       (i32.const 1)
+      )
+     )
+     (i32.store8
+      (get_local $4)
+      (i32.load8_u
+       (get_local $3)
+      )
+     )
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (get_local $0)
+     (i32.const 3)
+    )
+   )
+   (block
+    (loop $continue|1
+     (if
+      (i32.ge_u
+       (get_local $2)
+       (i32.const 16)
+      )
+      (block
+       (i32.store
+        (get_local $0)
+        (i32.load
+         (get_local $1)
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 4)
+        )
+        (i32.load
+         (i32.add
+          (get_local $1)
+          (i32.const 4)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (i32.load
+         (i32.add
+          (get_local $1)
+          (i32.const 8)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 12)
+        )
+        (i32.load
+         (i32.add
+          (get_local $1)
+          (i32.const 12)
+         )
+        )
+       )
+       (set_local $1
+        (i32.add
+         (get_local $1)
+         (i32.const 16)
+        )
+       )
+       (set_local $0
+        (i32.add
+         (get_local $0)
+         (i32.const 16)
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 16)
+        )
+       )
+       (br $continue|1)
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 8)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+       (i32.load
+        (i32.add
+         (get_local $1)
+         (i32.const 4)
+        )
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 8)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 8)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 4)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 4)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 2)
+     )
+     (block
+      (i32.store16
+       (get_local $0)
+       (i32.load16_u
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 2)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 1)
+     )
+     (block
+      (set_local $3
+       (get_local $1)
+      )
+      (i32.store8
+       (get_local $0)
+       (i32.load8_u
+        (get_local $1)
+       )
+      )
+     )
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $2)
+    (i32.const 32)
+   )
+   (block $break|2
+    (block $case2|2
+     (block $case1|2
+      (if
+       (i32.ne
+        (tee_local $3
+         (i32.and
+          (get_local $0)
+          (i32.const 3)
+         )
+        )
+        (i32.const 1)
+       )
+       (block
+        (br_if $case1|2
+         (i32.eq
+          (get_local $3)
+          (i32.const 2)
+         )
+        )
+        (br_if $case2|2
+         (i32.eq
+          (get_local $3)
+          (i32.const 3)
+         )
+        )
+        (br $break|2)
+       )
+      )
+      (set_local $5
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store8
+       (get_local $0)
+       (i32.load8_u
+        (tee_local $3
+         (get_local $1)
+        )
+       )
+      )
+      (set_local $0
+       (tee_local $1
+        (i32.add
+         (get_local $0)
+         (i32.const 1)
+        )
+       )
+      )
+      (i32.store8
+       (get_local $1)
+       (i32.load8_u
+        (tee_local $1
+         (i32.add
+          (get_local $3)
+          (i32.const 1)
+         )
+        )
+       )
+      )
+      (set_local $0
+       (i32.add
+        (tee_local $4
+         (i32.add
+          (get_local $0)
+          (i32.const 1)
+         )
+        )
+        (i32.const 1)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (tee_local $3
+         (i32.add
+          (get_local $1)
+          (i32.const 1)
+         )
+        )
+        (i32.const 1)
+       )
+      )
+      (i32.store8
+       (get_local $4)
+       (i32.load8_u
+        (get_local $3)
+       )
+      )
+      (set_local $2
+       (i32.sub
+        (get_local $2)
+        (i32.const 3)
+       )
+      )
+      (loop $continue|3
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 17)
+        )
+        (block
+         (i32.store
+          (get_local $0)
+          (i32.or
+           (i32.shr_u
+            (get_local $5)
+            (i32.const 24)
+           )
+           (i32.shl
+            (tee_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 1)
+              )
+             )
+            )
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 4)
+          )
+          (i32.or
+           (i32.shr_u
+            (get_local $3)
+            (i32.const 24)
+           )
+           (i32.shl
+            (tee_local $5
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 5)
+              )
+             )
+            )
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 8)
+          )
+          (i32.or
+           (i32.shr_u
+            (get_local $5)
+            (i32.const 24)
+           )
+           (i32.shl
+            (tee_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 9)
+              )
+             )
+            )
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 12)
+          )
+          (i32.or
+           (i32.shr_u
+            (get_local $3)
+            (i32.const 24)
+           )
+           (i32.shl
+            (tee_local $5
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 13)
+              )
+             )
+            )
+            (i32.const 8)
+           )
+          )
+         )
+         (set_local $1
+          (i32.add
+           (get_local $1)
+           (i32.const 16)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (get_local $0)
+           (i32.const 16)
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 16)
+          )
+         )
+         (br $continue|3)
+        )
+       )
+      )
+      (br $break|2)
+     )
+     (set_local $5
+      (i32.load
+       (get_local $1)
+      )
+     )
+     (i32.store8
+      (get_local $0)
+      (i32.load8_u
+       (get_local $1)
+      )
+     )
+     (set_local $0
+      (i32.add
+       (tee_local $4
+        (i32.add
+         (get_local $0)
+         (i32.const 1)
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (tee_local $3
+        (i32.add
+         (get_local $1)
+         (i32.const 1)
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (i32.store8
+      (get_local $4)
+      (i32.load8_u
+       (get_local $3)
+      )
+     )
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 2)
+      )
+     )
+     (loop $continue|4
+      (if
+       (i32.ge_u
+        (get_local $2)
+        (i32.const 18)
+       )
+       (block
+        (i32.store
+         (get_local $0)
+         (i32.or
+          (i32.shr_u
+           (get_local $5)
+           (i32.const 16)
+          )
+          (i32.shl
+           (tee_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 2)
+             )
+            )
+           )
+           (i32.const 16)
+          )
+         )
+        )
+        (i32.store
+         (i32.add
+          (get_local $0)
+          (i32.const 4)
+         )
+         (i32.or
+          (i32.shr_u
+           (get_local $3)
+           (i32.const 16)
+          )
+          (i32.shl
+           (tee_local $5
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 6)
+             )
+            )
+           )
+           (i32.const 16)
+          )
+         )
+        )
+        (i32.store
+         (i32.add
+          (get_local $0)
+          (i32.const 8)
+         )
+         (i32.or
+          (i32.shr_u
+           (get_local $5)
+           (i32.const 16)
+          )
+          (i32.shl
+           (tee_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 10)
+             )
+            )
+           )
+           (i32.const 16)
+          )
+         )
+        )
+        (i32.store
+         (i32.add
+          (get_local $0)
+          (i32.const 12)
+         )
+         (i32.or
+          (i32.shr_u
+           (get_local $3)
+           (i32.const 16)
+          )
+          (i32.shl
+           (tee_local $5
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 14)
+             )
+            )
+           )
+           (i32.const 16)
+          )
+         )
+        )
+        (set_local $1
+         (i32.add
+          (get_local $1)
+          (i32.const 16)
+         )
+        )
+        (set_local $0
+         (i32.add
+          (get_local $0)
+          (i32.const 16)
+         )
+        )
+        (set_local $2
+         (i32.sub
+          (get_local $2)
+          (i32.const 16)
+         )
+        )
+        (br $continue|4)
+       )
+      )
+     )
+     (br $break|2)
+    )
+    (set_local $5
+     (i32.load
+      (get_local $1)
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (get_local $1)
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+    (set_local $2
+     (i32.sub
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (loop $continue|5
+     (if
+      (i32.ge_u
+       (get_local $2)
+       (i32.const 19)
+      )
+      (block
+       (i32.store
+        (get_local $0)
+        (i32.or
+         (i32.shr_u
+          (get_local $5)
+          (i32.const 8)
+         )
+         (i32.shl
+          (tee_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 3)
+            )
+           )
+          )
+          (i32.const 24)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 4)
+        )
+        (i32.or
+         (i32.shr_u
+          (get_local $3)
+          (i32.const 8)
+         )
+         (i32.shl
+          (tee_local $5
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 7)
+            )
+           )
+          )
+          (i32.const 24)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (i32.or
+         (i32.shr_u
+          (get_local $5)
+          (i32.const 8)
+         )
+         (i32.shl
+          (tee_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 11)
+            )
+           )
+          )
+          (i32.const 24)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 12)
+        )
+        (i32.or
+         (i32.shr_u
+          (get_local $3)
+          (i32.const 8)
+         )
+         (i32.shl
+          (tee_local $5
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 15)
+            )
+           )
+          )
+          (i32.const 24)
+         )
+        )
+       )
+       (set_local $1
+        (i32.add
+         (get_local $1)
+         (i32.const 16)
+        )
+       )
+       (set_local $0
+        (i32.add
+         (get_local $0)
+         (i32.const 16)
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 16)
+        )
+       )
+       (br $continue|5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 16)
+   )
+   (block
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (tee_local $3
+       (get_local $1)
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $1
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $1)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $3)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 8)
+   )
+   (block
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (tee_local $3
+       (get_local $1)
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $1
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $1)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $3)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 4)
+   )
+   (block
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (tee_local $3
+       (get_local $1)
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $1
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $1)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $3)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 2)
+   )
+   (block
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (get_local $1)
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 1)
+   )
+   (block
+    (set_local $3
+     (get_local $1)
+    )
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (get_local $1)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/memory/memmove (; 7 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return)
+  )
+  (if
+   (i32.eqz
+    (tee_local $3
+     (i32.le_u
+      (i32.add
+       (get_local $1)
+       (get_local $2)
+      )
+      (get_local $0)
+     )
+    )
+   )
+   (set_local $3
+    (i32.le_u
+     (i32.add
+      (get_local $0)
+      (get_local $2)
+     )
+     (get_local $1)
+    )
+   )
+  )
+  (if
+   (get_local $3)
+   (block
+    (call $~lib/internal/memory/memcpy
+     (get_local $0)
+     (get_local $1)
+     (get_local $2)
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.lt_u
+    (get_local $0)
+    (get_local $1)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (loop $continue|0
+       (if
+        (i32.and
+         (get_local $0)
+         (i32.const 7)
+        )
+        (block
+         (if
+          (i32.eqz
+           (get_local $2)
+          )
+          (return)
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (tee_local $3
+            (tee_local $4
+             (get_local $0)
+            )
+           )
+           (i32.const 1)
+          )
+         )
+         (set_local $1
+          (i32.add
+           (tee_local $3
+            (get_local $1)
+           )
+           (i32.const 1)
+          )
+         )
+         (i32.store8
+          (get_local $4)
+          (i32.load8_u
+           (get_local $3)
+          )
+         )
+         (br $continue|0)
+        )
+       )
+      )
+      (loop $continue|1
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 8)
+        )
+        (block
+         (i64.store
+          (get_local $0)
+          (i64.load
+           (get_local $1)
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 8)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (get_local $0)
+           (i32.const 8)
+          )
+         )
+         (set_local $1
+          (i32.add
+           (get_local $1)
+           (i32.const 8)
+          )
+         )
+         (br $continue|1)
+        )
+       )
+      )
+     )
+    )
+    (loop $continue|2
+     (if
+      (get_local $2)
+      (block
+       (set_local $0
+        (i32.add
+         (tee_local $3
+          (tee_local $4
+           (get_local $0)
+          )
+         )
+         (i32.const 1)
+        )
+       )
+       (set_local $1
+        (i32.add
+         (tee_local $3
+          (get_local $1)
+         )
+         (i32.const 1)
+        )
+       )
+       (i32.store8
+        (get_local $4)
+        (i32.load8_u
+         (get_local $3)
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+       (br $continue|2)
+      )
+     )
+    )
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (loop $continue|3
+       (if
+        (i32.and
+         (i32.add
+          (get_local $0)
+          (get_local $2)
+         )
+         (i32.const 7)
+        )
+        (block
+         (if
+          (i32.eqz
+           (get_local $2)
+          )
+          (return)
+         )
+         (i32.store8
+          (i32.add
+           (get_local $0)
+           (tee_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 1)
+            )
+           )
+          )
+          (i32.load8_u
+           (i32.add
+            (get_local $1)
+            (get_local $2)
+           )
+          )
+         )
+         (br $continue|3)
+        )
+       )
+      )
+      (loop $continue|4
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 8)
+        )
+        (block
+         (i64.store
+          (i32.add
+           (get_local $0)
+           (tee_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 8)
+            )
+           )
+          )
+          (i64.load
+           (i32.add
+            (get_local $1)
+            (get_local $2)
+           )
+          )
+         )
+         (br $continue|4)
+        )
+       )
+      )
+     )
+    )
+    (loop $continue|5
+     (if
+      (get_local $2)
+      (block
+       (i32.store8
+        (i32.add
+         (get_local $0)
+         (tee_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+        )
+        (i32.load8_u
+         (i32.add
+          (get_local $1)
+          (get_local $2)
+         )
+        )
+       )
+       (br $continue|5)
+      )
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/arraybuffer/reallocateUnsafe (; 8 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.gt_s
+    (get_local $1)
+    (tee_local $2
+     (i32.load
+      (get_local $0)
+     )
+    )
+   )
+   (block
+    (if
+     (i32.gt_s
+      (get_local $1)
+      (i32.const 1073741816)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 104)
+       (i32.const 37)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.le_s
+      (get_local $1)
+      (i32.sub
+       (call $~lib/internal/arraybuffer/computeSize
+        (get_local $2)
+       )
+       (i32.const 8)
+      )
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (get_local $1)
+      )
+      (call $~lib/internal/memory/memset
+       (i32.add
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (get_local $2)
+       )
+       (i32.sub
+        (get_local $1)
+        (get_local $2)
+       )
+      )
+     )
+     (block
+      (call $~lib/internal/memory/memmove
+       (i32.add
+        (tee_local $3
+         (call $~lib/internal/arraybuffer/allocateUnsafe
+          (get_local $1)
+         )
+        )
+        (i32.const 8)
+       )
+       (i32.add
+        (get_local $0)
+        (i32.const 8)
+       )
+       (get_local $2)
+      )
+      (call $~lib/internal/memory/memset
+       (i32.add
+        (i32.add
+         (get_local $3)
+         (i32.const 8)
+        )
+        (get_local $2)
+       )
+       (i32.sub
+        (get_local $1)
+        (get_local $2)
+       )
+      )
+      (return
+       (get_local $3)
+      )
+     )
+    )
+   )
+   (if
+    (i32.lt_s
+     (get_local $1)
+     (get_local $2)
+    )
+    (block
+     (if
+      (i32.lt_s
+       (get_local $1)
+       (i32.const 0)
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 104)
+        (i32.const 61)
+        (i32.const 4)
+       )
+       (unreachable)
+      )
+     )
+     (i32.store
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/array/Array<i32>#push (; 9 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $2
+   (i32.add
+    (tee_local $1
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (i32.shr_u
+     (i32.load
+      (tee_local $3
+       (i32.load
+        (get_local $0)
+       )
+      )
+     )
+     (i32.const 2)
+    )
+   )
+   (block
+    (if
+     (i32.ge_u
+      (get_local $1)
+      (i32.const 268435454)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 72)
+       (i32.const 193)
+       (i32.const 42)
+      )
+      (unreachable)
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (tee_local $3
+      (call $~lib/internal/arraybuffer/reallocateUnsafe
+       (get_local $3)
+       (i32.shl
+        (get_local $2)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.store offset=8
+   (i32.add
+    (get_local $3)
+    (i32.shl
+     (get_local $1)
+     (i32.const 2)
+    )
+   )
+   (i32.const 4)
+  )
+  (get_local $2)
+ )
+ (func $for-of/sumAsI64 (; 10 ;) (; has Stack IR ;) (type $iI) (param $0 i32) (result i64)
+  (local $1 i32)
+  (local $2 i64)
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $1)
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+    )
+    (set_local $2
+     (i64.add
+      (get_local $2)
+      (i64.extend_s/i32
+       (call $~lib/array/Array<i32>#__unchecked_get
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+     )
+    )
+    (set_local $1
+     (i32.add
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $2)
+ )
+ (func $~lib/memory/memory.allocate (; 11 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/allocator/arena/__memory_allocate
+   (get_local $0)
+  )
+ )
+ (func $~lib/string/String#__iterator (; 12 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (local $0 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 7)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 176)
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/string/allocateUnsafe (; 13 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (tee_local $1
+    (i32.gt_s
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (set_local $1
+    (i32.le_s
+     (get_local $0)
+     (i32.const 536870910)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 240)
+     (i32.const 28)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $1
+    (call $~lib/allocator/arena/__memory_allocate
+     (i32.add
+      (i32.shl
+       (get_local $0)
+       (i32.const 1)
+      )
+      (i32.const 4)
+     )
+    )
+   )
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/string/copyUnsafe (; 14 ;) (; has Stack IR ;) (type $FUNCSIG$viiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32)
+  (call $~lib/internal/memory/memmove
+   (i32.add
+    (i32.add
+     (get_local $0)
+     (i32.shl
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.add
+    (get_local $2)
+    (i32.const 4)
+   )
+   (i32.shl
+    (get_local $3)
+    (i32.const 1)
+   )
+  )
+ )
+ (func $~lib/string/String#concat (; 15 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 208)
+     (i32.const 131)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (set_local $1
+    (i32.const 192)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.add
+      (tee_local $3
+       (i32.load
+        (get_local $0)
+       )
+      )
+      (tee_local $4
+       (i32.load
+        (get_local $1)
+       )
+      )
+     )
+    )
+   )
+   (return
+    (i32.const 168)
+   )
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (tee_local $2
+    (call $~lib/internal/string/allocateUnsafe
+     (get_local $2)
+    )
+   )
+   (i32.const 0)
+   (get_local $0)
+   (get_local $3)
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (get_local $2)
+   (get_local $3)
+   (get_local $1)
+   (get_local $4)
+  )
+  (get_local $2)
+ )
+ (func $~lib/string/String.__concat (; 16 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (set_local $0
+    (i32.const 192)
+   )
+  )
+  (call $~lib/string/String#concat
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $~lib/internal/string/compareUnsafe (; 17 ;) (; has Stack IR ;) (type $FUNCSIG$iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (get_local $0)
+  )
+  (loop $continue|0
+   (if
+    (tee_local $0
+     (if (result i32)
+      (get_local $2)
+      (i32.eqz
+       (tee_local $4
+        (i32.sub
+         (i32.load16_u offset=4
+          (get_local $3)
+         )
+         (i32.load16_u offset=4
+          (get_local $1)
+         )
+        )
+       )
+      )
+      (get_local $2)
+     )
+    )
+    (block
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (set_local $3
+      (i32.add
+       (get_local $3)
+       (i32.const 2)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (get_local $4)
+ )
+ (func $~lib/string/String.__eq (; 18 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (i32.const 176)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $1
+     (i32.eqz
+      (get_local $0)
+     )
+    )
+   )
+   (set_local $1
+    (i32.const 0)
+   )
+  )
+  (if
+   (get_local $1)
+   (return
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.ne
+    (tee_local $1
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (i32.load
+     (i32.const 176)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.eqz
+   (call $~lib/internal/string/compareUnsafe
+    (get_local $0)
+    (i32.const 176)
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/iterator/IterableIterator<i32>#__iterator (; 19 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $for-of/Countdown#next (; 20 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (get_local $0)
+   (i32.sub
+    (tee_local $1
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (i32.const 1)
+   )
+  )
+  (get_local $1)
+ )
+ (func $for-of/Countdown#get:done (; 21 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.le_s
+   (i32.load
+    (get_local $0)
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/string/StringIterator#get:done (; 22 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.ge_s
+   (i32.load offset=4
+    (get_local $0)
+   )
+   (i32.load
+    (i32.load
+     (get_local $0)
+    )
+   )
+  )
+ )
+ (func $~lib/string/String#codePointAt (; 23 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 208)
+     (i32.const 106)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (i32.load
+     (get_local $0)
+    )
+   )
+   (return
+    (i32.const -1)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.lt_s
+      (tee_local $3
+       (i32.load16_u offset=4
+        (i32.add
+         (get_local $0)
+         (i32.shl
+          (get_local $1)
+          (i32.const 1)
+         )
+        )
+       )
+      )
+      (i32.const 55296)
+     )
+    )
+   )
+   (set_local $2
+    (i32.gt_s
+     (get_local $3)
+     (i32.const 56319)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (set_local $2
+    (i32.eq
+     (i32.add
+      (get_local $1)
+      (i32.const 1)
+     )
+     (i32.load
+      (get_local $0)
+     )
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (return
+    (get_local $3)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.lt_s
+      (tee_local $0
+       (i32.load16_u offset=4
+        (i32.add
+         (get_local $0)
+         (i32.shl
+          (i32.add
+           (get_local $1)
+           (i32.const 1)
+          )
+          (i32.const 1)
+         )
+        )
+       )
+      )
+      (i32.const 56320)
+     )
+    )
+   )
+   (set_local $2
+    (i32.gt_s
+     (get_local $0)
+     (i32.const 57343)
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (return
+    (get_local $3)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.shl
+     (get_local $3)
+     (i32.const 10)
+    )
+    (get_local $0)
+   )
+   (i32.const -56613888)
+  )
+ )
+ (func $~lib/string/String.fromCodePoint (; 24 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 1114111)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 208)
+     (i32.const 51)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $1
+   (call $~lib/internal/string/allocateUnsafe
+    (i32.add
+     (tee_local $2
+      (i32.gt_s
+       (get_local $0)
+       (i32.const 65535)
+      )
+     )
+     (i32.const 1)
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (i32.store offset=4
+    (get_local $1)
+    (i32.or
+     (i32.shl
+      (i32.add
+       (i32.and
+        (tee_local $0
+         (i32.sub
+          (get_local $0)
+          (i32.const 65536)
+         )
+        )
+        (i32.const 1023)
+       )
+       (i32.const 56320)
+      )
+      (i32.const 16)
+     )
+     (i32.add
+      (i32.shr_u
+       (get_local $0)
+       (i32.const 10)
+      )
+      (i32.const 55296)
+     )
+    )
+   )
+   (i32.store16 offset=4
+    (get_local $1)
+    (get_local $0)
+   )
+  )
+  (get_local $1)
+ )
+ (func $~lib/string/StringIterator#next (; 25 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/string/StringIterator#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 208)
+     (i32.const 627)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $1
+   (call $~lib/string/String#codePointAt
+    (i32.load
+     (get_local $0)
+    )
+    (i32.load offset=4
+     (get_local $0)
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.add
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (if (result i32)
+     (i32.ge_s
+      (get_local $1)
+      (i32.const 65536)
+     )
+     (i32.const 2)
+     (i32.const 1)
+    )
+   )
+  )
+  (call $~lib/string/String.fromCodePoint
+   (get_local $1)
+  )
+ )
+ (func $~lib/iterator/Iterator<String>#get:done|virtual (; 26 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
+     )
+    )
+    (i32.const 7)
+   )
+   (return
+    (call $~lib/string/StringIterator#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<String>#next|virtual (; 27 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
+     )
+    )
+    (i32.const 7)
+   )
+   (return
+    (call $~lib/string/StringIterator#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i32>#get:done|virtual (; 28 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
+     )
+    )
+    (i32.const 10)
+   )
+   (return
+    (call $for-of/Countdown#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i32>#next|virtual (; 29 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
+     )
+    )
+    (i32.const 10)
+   )
+   (return
+    (call $for-of/Countdown#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $start (; 30 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (set_global $~lib/allocator/arena/startOffset
+   (i32.const 424)
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_global $~lib/allocator/arena/startOffset)
+  )
+  (block $break|0
+   (set_local $1
+    (get_global $for-of/array)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $0)
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+    )
+    (set_local $2
+     (call $~lib/array/Array<i32>#__unchecked_get
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (set_global $for-of/sum
+     (i32.add
+      (get_global $for-of/sum)
+      (get_local $2)
+     )
+    )
+    (set_local $0
+     (i32.add
+      (get_local $0)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (if
+   (i32.ne
+    (get_global $for-of/sum)
+    (i32.const 6)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 8)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $for-of/sum
+   (i32.const 0)
+  )
+  (block $break|1
+   (set_local $2
+    (get_global $for-of/array)
+   )
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.ge_s
+      (get_local $0)
+      (i32.load offset=4
+       (get_local $2)
+      )
+     )
+    )
+    (if
+     (i32.ne
+      (tee_local $1
+       (call $~lib/array/Array<i32>#__unchecked_get
+        (get_local $2)
+        (get_local $0)
+       )
+      )
+      (i32.const 2)
+     )
+     (set_global $for-of/sum
+      (i32.add
+       (get_global $for-of/sum)
+       (get_local $1)
+      )
+     )
+    )
+    (set_local $0
+     (i32.add
+      (get_local $0)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|1)
+   )
+  )
+  (if
+   (i32.ne
+    (get_global $for-of/sum)
+    (i32.const 4)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 15)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $for-of/sum
+   (i32.const 0)
+  )
+  (block $break|2
+   (set_local $1
+    (get_global $for-of/array)
+   )
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|2
+    (br_if $break|2
+     (i32.ge_s
+      (get_local $0)
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+    )
+    (br_if $break|2
+     (i32.eq
+      (tee_local $2
+       (call $~lib/array/Array<i32>#__unchecked_get
+        (get_local $1)
+        (get_local $0)
+       )
+      )
+      (i32.const 2)
+     )
+    )
+    (set_global $for-of/sum
+     (i32.add
+      (get_global $for-of/sum)
+      (get_local $2)
+     )
+    )
+    (set_local $0
+     (i32.add
+      (get_local $0)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|2)
+   )
+  )
+  (if
+   (i32.ne
+    (get_global $for-of/sum)
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 22)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $for-of/sum
+   (i32.const 0)
+  )
+  (block $break|3
+   (set_local $2
+    (get_global $for-of/array)
+   )
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|3
+    (br_if $break|3
+     (i32.ge_s
+      (get_local $0)
+      (i32.load offset=4
+       (get_local $2)
+      )
+     )
+    )
+    (if
+     (i32.eq
+      (tee_local $1
+       (call $~lib/array/Array<i32>#__unchecked_get
+        (get_local $2)
+        (get_local $0)
+       )
+      )
+      (i32.const 1)
+     )
+     (drop
+      (call $~lib/array/Array<i32>#push
+       (get_global $for-of/array)
+      )
+     )
+    )
+    (set_global $for-of/sum
+     (i32.add
+      (get_global $for-of/sum)
+      (get_local $1)
+     )
+    )
+    (set_local $0
+     (i32.add
+      (get_local $0)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|3)
+   )
+  )
+  (if
+   (i32.ne
+    (get_global $for-of/sum)
+    (i32.const 10)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 29)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i64.ne
+    (call $for-of/sumAsI64
+     (get_global $for-of/array)
+    )
+    (i64.const 10)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 36)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|4
+   (set_local $1
+    (call $~lib/string/String#__iterator)
+   )
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<String>#get:done|virtual
+      (get_local $1)
+     )
+    )
+    (set_local $0
+     (call $~lib/iterator/Iterator<String>#next|virtual
+      (get_local $1)
+     )
+    )
+    (set_global $for-of/str
+     (call $~lib/string/String.__concat
+      (get_global $for-of/str)
+      (get_local $0)
+     )
+    )
+    (set_global $for-of/count
+     (i32.add
+      (get_global $for-of/count)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|4)
+   )
+  )
+  (if
+   (i32.ne
+    (get_global $for-of/count)
+    (i32.const 3)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 46)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (get_global $for-of/str)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 47)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $for-of/sum
+   (i32.const 0)
+  )
+  (block $break|5
+   (i32.store
+    (i32.sub
+     (tee_local $1
+      (i32.add
+       (call $~lib/memory/memory.allocate
+        (i32.const 12)
+       )
+       (i32.const 8)
+      )
+     )
+     (i32.const 4)
+    )
+    (i32.const 10)
+   )
+   (i32.store
+    (get_local $1)
+    (i32.const 3)
+   )
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i32>#__iterator
+     (get_local $1)
+    )
+   )
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<i32>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (set_local $1
+     (call $~lib/iterator/Iterator<i32>#next|virtual
+      (get_local $0)
+     )
+    )
+    (set_global $for-of/sum
+     (i32.add
+      (get_global $for-of/sum)
+      (get_local $1)
+     )
+    )
+    (br $repeat|5)
+   )
+  )
+  (if
+   (i32.ne
+    (get_global $for-of/sum)
+    (i32.const 6)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 59)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 12)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 10)
+  )
+  (i32.store
+   (tee_local $1
+    (get_local $0)
+   )
+   (i32.const 3)
+  )
+  (set_global $for-of/countdown
+   (get_local $0)
+  )
+  (drop
+   (call $for-of/Countdown#next
+    (get_global $for-of/countdown)
+   )
+  )
+  (set_global $for-of/sum
+   (i32.const 0)
+  )
+  (block $break|6
+   (set_local $1
+    (call $~lib/iterator/IterableIterator<i32>#__iterator
+     (get_global $for-of/countdown)
+    )
+   )
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<i32>#get:done|virtual
+      (get_local $1)
+     )
+    )
+    (set_local $0
+     (call $~lib/iterator/Iterator<i32>#next|virtual
+      (get_local $1)
+     )
+    )
+    (set_global $for-of/sum
+     (i32.add
+      (get_global $for-of/sum)
+      (get_local $0)
+     )
+    )
+    (br $repeat|6)
+   )
+  )
+  (if
+   (i32.ne
+    (get_global $for-of/sum)
+    (i32.const 3)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 65)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $for-of/Countdown#get:done
+     (get_global $for-of/countdown)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 66)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+ )
+)
@@ -0,0 +1,66 @@
+import "allocator/arena";
+
+// arrays
+
+var array: i32[] = [1, 2, 3];
+var sum = 0;
+for (let value of array) sum += value;
+assert(sum == 6);
+
+sum = 0;
+for (const value of array) {
+  if (value == 2) continue;
+  sum += value;
+}
+assert(sum == 4);
+
+sum = 0;
+for (let value of array) {
+  if (value == 2) break;
+  sum += value;
+}
+assert(sum == 1);
+
+sum = 0;
+for (let value of array) {
+  if (value == 1) array.push(4); // visited as well
+  sum += value;
+}
+assert(sum == 10);
+
+function sumAsI64(values: i32[]): i64 {
+  var sum: i64 = 0;
+  for (var value: i64 of values) sum += value;
+  return sum;
+}
+assert(sumAsI64(array) == 10);
+
+// strings
+
+var count = 0;
+var str = "";
+for (let char of "a😀b") {
+  str += char;
+  ++count;
+}
+assert(count == 3);
+assert(str == "a😀b");
+
+// custom iterators
+
+class Countdown extends IterableIterator<i32> {
+  n: i32 = 3;
+  get done(): bool { return this.n <= 0; }
+  next(): i32 { return this.n--; }
+}
+
+sum = 0;
+for (let value of new Countdown()) sum += value;
+assert(sum == 6);
+
+var countdown = new Countdown();
+countdown.next();
+sum = 0;
+for (let value of countdown) sum += value;
+assert(sum == 3);
+assert(countdown.done);
@@ -4,15 +4,19 @@
  (type $v (func))
  (type $i (func (result i32)))
  (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
- (global $function-expression/f1 (mut i32) (i32.const 0))
+ (global $function-expression/f1 (mut i32) (i32.const 8))
+ (global $~env (mut i32) (i32.const 0))
  (global $~argc (mut i32) (i32.const 0))
- (global $function-expression/f2 (mut i32) (i32.const 1))
- (global $function-expression/f3 (mut i32) (i32.const 2))
- (global $function-expression/f4 (mut i32) (i32.const 3))
+ (global $function-expression/f2 (mut i32) (i32.const 64))
+ (global $function-expression/f3 (mut i32) (i32.const 72))
+ (global $function-expression/f4 (mut i32) (i32.const 80))
  (table 4 4 anyfunc)
  (elem (i32.const 0) $start~anonymous|0 $start~anonymous|0 $start~someName|2 $start~anonymous|3)
  (memory $0 1)
- (data (i32.const 8) "\16\00\00\00f\00u\00n\00c\00t\00i\00o\00n\00-\00e\00x\00p\00r\00e\00s\00s\00i\00o\00n\00.\00t\00s")
+ (data (i32.const 16) "\16\00\00\00f\00u\00n\00c\00t\00i\00o\00n\00-\00e\00x\00p\00r\00e\00s\00s\00i\00o\00n\00.\00t\00s")
+ (data (i32.const 64) "\01")
+ (data (i32.const 72) "\02")
+ (data (i32.const 80) "\03")
  (export "memory" (memory $0))
  (export "table" (table $0))
  (start $start)
@@ -29,18 +33,23 @@
   (set_global $~argc
    (i32.const 1)
   )
+  (set_global $~env
+   (get_global $function-expression/f1)
+  )
   (if
    (i32.ne
     (call_indirect (type $ii)
      (i32.const 1)
-     (get_global $function-expression/f1)
+     (i32.load
+      (get_global $~env)
+     )
     )
     (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 8)
+     (i32.const 16)
      (i32.const 4)
      (i32.const 0)
     )
@@ -50,18 +59,23 @@
   (set_global $~argc
    (i32.const 1)
   )
+  (set_global $~env
+   (get_global $function-expression/f2)
+  )
   (if
    (i32.ne
     (call_indirect (type $ii)
      (i32.const 2)
-     (get_global $function-expression/f2)
+     (i32.load
+      (get_global $~env)
+     )
     )
     (i32.const 2)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 8)
+     (i32.const 16)
      (i32.const 9)
      (i32.const 0)
     )
@@ -71,23 +85,33 @@
   (set_global $~argc
    (i32.const 0)
   )
-  (call_indirect (type $v)
+  (set_global $~env
    (get_global $function-expression/f3)
   )
+  (call_indirect (type $v)
+   (i32.load
+    (get_global $~env)
+   )
+  )
   (set_global $~argc
    (i32.const 0)
   )
+  (set_global $~env
+   (get_global $function-expression/f4)
+  )
   (if
    (i32.ne
     (call_indirect (type $i)
-     (get_global $function-expression/f4)
+     (i32.load
+      (get_global $~env)
+     )
     )
     (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 8)
+     (i32.const 16)
      (i32.const 16)
      (i32.const 0)
     )
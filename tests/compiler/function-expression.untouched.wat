@@ -4,16 +4,21 @@
  (type $v (func))
  (type $i (func (result i32)))
  (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
- (global $function-expression/f1 (mut i32) (i32.const 0))
+ (global $function-expression/f1 (mut i32) (i32.const 8))
+ (global $~env (mut i32) (i32.const 0))
  (global $~argc (mut i32) (i32.const 0))
- (global $function-expression/f2 (mut i32) (i32.const 1))
- (global $function-expression/f3 (mut i32) (i32.const 2))
- (global $function-expression/f4 (mut i32) (i32.const 3))
- (global $HEAP_BASE i32 (i32.const 56))
+ (global $function-expression/f2 (mut i32) (i32.const 64))
+ (global $function-expression/f3 (mut i32) (i32.const 72))
+ (global $function-expression/f4 (mut i32) (i32.const 80))
+ (global $HEAP_BASE i32 (i32.const 88))
  (table 4 4 anyfunc)
  (elem (i32.const 0) $start~anonymous|0 $start~anonymous|1 $start~someName|2 $start~anonymous|3)
  (memory $0 1)
- (data (i32.const 8) "\16\00\00\00f\00u\00n\00c\00t\00i\00o\00n\00-\00e\00x\00p\00r\00e\00s\00s\00i\00o\00n\00.\00t\00s\00")
+ (data (i32.const 8) "\00\00\00\00\00\00\00\00")
+ (data (i32.const 16) "\16\00\00\00f\00u\00n\00c\00t\00i\00o\00n\00-\00e\00x\00p\00r\00e\00s\00s\00i\00o\00n\00.\00t\00s\00")
+ (data (i32.const 64) "\01\00\00\00\00\00\00\00")
+ (data (i32.const 72) "\02\00\00\00\00\00\00\00")
+ (data (i32.const 80) "\03\00\00\00\00\00\00\00")
  (export "memory" (memory $0))
  (export "table" (table $0))
  (start $start)
@@ -39,7 +44,14 @@
       )
       (call_indirect (type $ii)
        (i32.const 1)
-       (get_global $function-expression/f1)
+       (block (result i32)
+        (set_global $~env
+         (get_global $function-expression/f1)
+        )
+        (i32.load
+         (get_global $~env)
+        )
+       )
       )
      )
      (i32.const 1)
@@ -48,7 +60,7 @@
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 8)
+     (i32.const 16)
      (i32.const 4)
      (i32.const 0)
     )
@@ -64,7 +76,14 @@
       )
       (call_indirect (type $ii)
        (i32.const 2)
-       (get_global $function-expression/f2)
+       (block (result i32)
+        (set_global $~env
+         (get_global $function-expression/f2)
+        )
+        (i32.load
+         (get_global $~env)
+        )
+       )
       )
      )
      (i32.const 2)
@@ -73,7 +92,7 @@
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 8)
+     (i32.const 16)
      (i32.const 9)
      (i32.const 0)
     )
@@ -85,7 +104,14 @@
     (i32.const 0)
    )
    (call_indirect (type $v)
-    (get_global $function-expression/f3)
+    (block (result i32)
+     (set_global $~env
+      (get_global $function-expression/f3)
+     )
+     (i32.load
+      (get_global $~env)
+     )
+    )
    )
   )
   (if
@@ -96,7 +122,14 @@
        (i32.const 0)
       )
       (call_indirect (type $i)
-       (get_global $function-expression/f4)
+       (block (result i32)
+        (set_global $~env
+         (get_global $function-expression/f4)
+        )
+        (i32.load
+         (get_global $~env)
+        )
+       )
       )
      )
      (i32.const 1)
@@ -105,7 +138,7 @@
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 8)
+     (i32.const 16)
      (i32.const 16)
      (i32.const 0)
     )
@@ -9,12 +9,16 @@
  (type $FUNCSIG$i (func (result i32)))
  (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
  (global $function-types/i32Adder (mut i32) (i32.const 0))
+ (global $~env (mut i32) (i32.const 0))
  (global $~argc (mut i32) (i32.const 0))
  (global $function-types/i64Adder (mut i32) (i32.const 0))
  (table 4 4 anyfunc)
  (elem (i32.const 0) $function-types/makeAdder<i32>~anonymous|0 $function-types/makeAdder<i64>~anonymous|1 $function-types/makeAdder<f64>~anonymous|2 $function-types/makeAdder<i32>~anonymous|0)
  (memory $0 1)
- (data (i32.const 8) "\11\00\00\00f\00u\00n\00c\00t\00i\00o\00n\00-\00t\00y\00p\00e\00s\00.\00t\00s")
+ (data (i32.const 16) "\11\00\00\00f\00u\00n\00c\00t\00i\00o\00n\00-\00t\00y\00p\00e\00s\00.\00t\00s")
+ (data (i32.const 56) "\01")
+ (data (i32.const 64) "\02")
+ (data (i32.const 72) "\03")
  (export "memory" (memory $0))
  (export "table" (table $0))
  (start $start)
@@ -25,7 +29,7 @@
   )
  )
  (func $function-types/makeAdder<i32> (; 2 ;) (; has Stack IR ;) (type $i) (result i32)
-  (i32.const 0)
+  (i32.const 8)
  )
  (func $function-types/makeAdder<i64>~anonymous|1 (; 3 ;) (; has Stack IR ;) (type $III) (param $0 i64) (param $1 i64) (result i64)
   (i64.add
@@ -34,7 +38,7 @@
   )
  )
  (func $function-types/makeAdder<i64> (; 4 ;) (; has Stack IR ;) (type $i) (result i32)
-  (i32.const 1)
+  (i32.const 56)
  )
  (func $function-types/makeAdder<f64>~anonymous|2 (; 5 ;) (; has Stack IR ;) (type $FFF) (param $0 f64) (param $1 f64) (result f64)
   (f64.add
@@ -43,26 +47,36 @@
   )
  )
  (func $function-types/makeAdder<f64> (; 6 ;) (; has Stack IR ;) (type $i) (result i32)
-  (i32.const 2)
+  (i32.const 64)
  )
  (func $function-types/doAddWithFn<i32> (; 7 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
   (set_global $~argc
    (i32.const 2)
   )
+  (set_global $~env
+   (get_local $2)
+  )
   (call_indirect (type $iii)
    (get_local $0)
    (get_local $1)
-   (get_local $2)
+   (i32.load
+    (get_global $~env)
+   )
   )
  )
  (func $function-types/doAdd<i32> (; 8 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
   (set_global $~argc
    (i32.const 2)
   )
+  (set_global $~env
+   (call $function-types/makeAdder<i32>)
+  )
   (call_indirect (type $iii)
    (i32.const 3)
    (i32.const 4)
-   (call $function-types/makeAdder<i32>)
+   (i32.load
+    (get_global $~env)
+   )
   )
  )
  (func $function-types/makeAndAdd<i32>|trampoline (; 9 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
@@ -96,19 +110,24 @@
   (set_global $~argc
    (i32.const 2)
   )
+  (set_global $~env
+   (get_global $function-types/i32Adder)
+  )
   (if
    (i32.ne
     (call_indirect (type $iii)
      (i32.const 1)
      (i32.const 2)
-     (get_global $function-types/i32Adder)
+     (i32.load
+      (get_global $~env)
+     )
     )
     (i32.const 3)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 8)
+     (i32.const 16)
      (i32.const 11)
      (i32.const 0)
     )
@@ -121,19 +140,24 @@
   (set_global $~argc
    (i32.const 2)
   )
+  (set_global $~env
+   (get_global $function-types/i64Adder)
+  )
   (if
    (i64.ne
     (call_indirect (type $III)
      (i64.const 10)
      (i64.const 20)
-     (get_global $function-types/i64Adder)
+     (i32.load
+      (get_global $~env)
+     )
     )
     (i64.const 30)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 8)
+     (i32.const 16)
      (i32.const 15)
      (i32.const 0)
     )
@@ -143,19 +167,24 @@
   (set_global $~argc
    (i32.const 2)
   )
+  (set_global $~env
+   (call $function-types/makeAdder<f64>)
+  )
   (if
    (f64.ne
     (call_indirect (type $FFF)
      (f64.const 1.5)
      (f64.const 2.5)
-     (call $function-types/makeAdder<f64>)
+     (i32.load
+      (get_global $~env)
+     )
     )
     (f64.const 4)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 8)
+     (i32.const 16)
      (i32.const 17)
      (i32.const 0)
     )
@@ -174,7 +203,7 @@
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 8)
+     (i32.const 16)
      (i32.const 23)
      (i32.const 0)
     )
@@ -189,7 +218,7 @@
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 8)
+     (i32.const 16)
      (i32.const 29)
      (i32.const 0)
     )
@@ -201,14 +230,14 @@
     (call $function-types/doAddWithFn<i32>
      (i32.const 4)
      (i32.const 5)
-     (i32.const 3)
+     (i32.const 72)
     )
     (i32.const 9)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 8)
+     (i32.const 16)
      (i32.const 35)
      (i32.const 0)
     )
@@ -226,7 +255,7 @@
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 8)
+     (i32.const 16)
      (i32.const 41)
      (i32.const 0)
     )
@@ -245,7 +274,7 @@
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 8)
+     (i32.const 16)
      (i32.const 42)
      (i32.const 0)
     )
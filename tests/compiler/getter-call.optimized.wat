@@ -5,10 +5,11 @@
  (type $FUNCSIG$i (func (result i32)))
  (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
  (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $~env (mut i32) (i32.const 0))
  (global $~argc (mut i32) (i32.const 0))
  (table 1 1 anyfunc)
  (elem (i32.const 0) $getter-call/C#get:x~anonymous|0)
- (memory $0 0)
+ (memory $0 1)
  (export "memory" (memory $0))
  (export "table" (table $0))
  (export "test" (func $getter-call/test))
@@ -107,7 +108,7 @@
   (i32.const 42)
  )
  (func $getter-call/C#get:x (; 3 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
-  (i32.const 0)
+  (i32.const 8)
  )
  (func $getter-call/test (; 4 ;) (; has Stack IR ;) (type $i) (result i32)
   (local $0 i32)
@@ -117,13 +118,18 @@
   (set_global $~argc
    (i32.const 0)
   )
-  (call_indirect (type $i)
+  (set_global $~env
    (call $getter-call/C#get:x)
   )
+  (call_indirect (type $i)
+   (i32.load
+    (get_global $~env)
+   )
+  )
  )
  (func $start (; 5 ;) (; has Stack IR ;) (type $v)
   (set_global $~lib/allocator/arena/startOffset
-   (i32.const 8)
+   (i32.const 16)
   )
   (set_global $~lib/allocator/arena/offset
    (get_global $~lib/allocator/arena/startOffset)
@@ -8,11 +8,13 @@
  (global $~lib/internal/allocator/MAX_SIZE_32 i32 (i32.const 1073741824))
  (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
  (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $~env (mut i32) (i32.const 0))
  (global $~argc (mut i32) (i32.const 0))
- (global $HEAP_BASE i32 (i32.const 8))
+ (global $HEAP_BASE i32 (i32.const 16))
  (table 1 1 anyfunc)
  (elem (i32.const 0) $getter-call/C#get:x~anonymous|0)
- (memory $0 0)
+ (memory $0 1)
+ (data (i32.const 8) "\00\00\00\00\00\00\00\00")
  (export "memory" (memory $0))
  (export "table" (table $0))
  (export "test" (func $getter-call/test))
@@ -139,7 +141,7 @@
   (i32.const 42)
  )
  (func $getter-call/C#get:x (; 3 ;) (type $ii) (param $0 i32) (result i32)
-  (i32.const 0)
+  (i32.const 8)
  )
  (func $getter-call/test (; 4 ;) (type $i) (result i32)
   (local $0 i32)
@@ -157,8 +159,15 @@
    (i32.const 0)
   )
   (call_indirect (type $i)
-   (call $getter-call/C#get:x
-    (get_local $0)
+   (block (result i32)
+    (set_global $~env
+     (call $getter-call/C#get:x
+      (get_local $0)
+     )
+    )
+    (i32.load
+     (get_global $~env)
+    )
    )
   )
  )
@@ -4,6 +4,7 @@
  (type $v (func))
  (type $ii (func (param i32) (result i32)))
  (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~env (mut i32) (i32.const 0))
  (global $~argc (mut i32) (i32.const 0))
  (table 1 1 anyfunc)
  (elem (i32.const 0) $inlining/test_funcs~anonymous|0)
@@ -23,11 +24,16 @@
   (set_global $~argc
    (i32.const 1)
   )
+  (set_global $~env
+   (i32.const 40)
+  )
   (if
    (i32.ne
     (call_indirect (type $ii)
      (i32.const 2)
-     (i32.const 0)
+     (i32.load
+      (get_global $~env)
+     )
     )
     (i32.const 2)
    )
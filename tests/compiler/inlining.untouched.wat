@@ -5,12 +5,14 @@
  (type $ii (func (param i32) (result i32)))
  (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
  (global $inlining/constantGlobal i32 (i32.const 1))
+ (global $~env (mut i32) (i32.const 0))
  (global $~argc (mut i32) (i32.const 0))
- (global $HEAP_BASE i32 (i32.const 36))
+ (global $HEAP_BASE i32 (i32.const 48))
  (table 1 1 anyfunc)
  (elem (i32.const 0) $inlining/test_funcs~anonymous|0)
  (memory $0 1)
  (data (i32.const 8) "\0b\00\00\00i\00n\00l\00i\00n\00i\00n\00g\00.\00t\00s\00")
+ (data (i32.const 40) "\00\00\00\00\00\00\00\00")
  (export "memory" (memory $0))
  (export "table" (table $0))
  (export "test" (func $inlining/test))
@@ -289,8 +291,15 @@
       )
       (call_indirect (type $ii)
        (i32.const 2)
-       (block $inlining/func_fe|inlined.0 (result i32)
-        (i32.const 0)
+       (block (result i32)
+        (set_global $~env
+         (block $inlining/func_fe|inlined.0 (result i32)
+          (i32.const 40)
+         )
+        )
+        (i32.load
+         (get_global $~env)
+        )
        )
       )
      )
@@ -1,20 +1,92 @@
 (module
  (type $iiiiv (func (param i32 i32 i32 i32)))
  (type $v (func))
+ (type $FUNCSIG$ii (func (param i32) (result i32)))
  (type $FUNCSIG$i (func (result i32)))
  (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $instanceof/a (mut i32) (i32.const 0))
  (global $instanceof/an (mut i32) (i32.const 0))
+ (global $RTTI_BASE i32 (i32.const 40))
  (memory $0 1)
  (data (i32.const 8) "\0d\00\00\00i\00n\00s\00t\00a\00n\00c\00e\00o\00f\00.\00t\00s")
+ (data (i32.const 40) "\05\00\00\00\01")
+ (data (i32.const 56) "\02")
+ (data (i32.const 68) "\03\00\00\00\00\00\00\00\04\00\00\00\04\00\00\00\00\00\00\00\04\00\00\00\05\00\00\00\04\00\00\00\04")
+ (export "RTTI_BASE" (global $RTTI_BASE))
  (export "memory" (memory $0))
  (start $start)
- (func $instanceof/isI32<i32> (; 1 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+ (func $~instanceof (; 1 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (loop $continue
+   (if
+    (i32.eq
+     (get_local $1)
+     (i32.const 5)
+    )
+    (return
+     (i32.const 1)
+    )
+   )
+   (if
+    (get_local $1)
+    (block
+     (set_local $1
+      (i32.load
+       (i32.add
+        (i32.mul
+         (get_local $1)
+         (i32.const 12)
+        )
+        (i32.const 36)
+       )
+      )
+     )
+     (br $continue)
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $instanceof/isI32<i32> (; 2 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
   (i32.const 1)
  )
- (func $instanceof/isI32<f64> (; 2 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+ (func $instanceof/isI32<f64> (; 3 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
   (i32.const 0)
  )
- (func $start (; 3 ;) (; has Stack IR ;) (type $v)
+ (func $start (; 4 ;) (; has Stack IR ;) (type $v)
+  (if
+   (i32.and
+    (call $~instanceof
+     (get_global $instanceof/a)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 14)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
   (if
    (i32.eqz
     (call $instanceof/isI32<i32>)
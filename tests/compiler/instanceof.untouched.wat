@@ -1,5 +1,6 @@
 (module
  (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $iii (func (param i32 i32) (result i32)))
  (type $ii (func (param i32) (result i32)))
  (type $Fi (func (param f64) (result i32)))
  (type $v (func))
@@ -9,27 +10,81 @@
  (global $instanceof/i (mut i32) (i32.const 0))
  (global $instanceof/f (mut f32) (f32.const 0))
  (global $instanceof/an (mut i32) (i32.const 0))
- (global $HEAP_BASE i32 (i32.const 40))
+ (global $RTTI_BASE i32 (i32.const 40))
+ (global $HEAP_BASE i32 (i32.const 104))
  (memory $0 1)
  (data (i32.const 8) "\0d\00\00\00i\00n\00s\00t\00a\00n\00c\00e\00o\00f\00.\00t\00s\00")
+ (data (i32.const 40) "\05\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\02\00\00\00\00\00\00\00\00\00\00\00\03\00\00\00\00\00\00\00\04\00\00\00\04\00\00\00\00\00\00\00\04\00\00\00\05\00\00\00\04\00\00\00\04\00\00\00")
+ (export "RTTI_BASE" (global $RTTI_BASE))
  (export "memory" (memory $0))
  (start $start)
- (func $instanceof/isI32<i32> (; 1 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~instanceof (; 1 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $2
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (loop $continue
+   (if
+    (i32.eq
+     (get_local $2)
+     (get_local $1)
+    )
+    (return
+     (i32.const 1)
+    )
+   )
+   (if
+    (get_local $2)
+    (block
+     (set_local $2
+      (i32.load
+       (i32.add
+        (get_global $RTTI_BASE)
+        (i32.sub
+         (i32.mul
+          (get_local $2)
+          (i32.const 12)
+         )
+         (i32.const 4)
+        )
+       )
+      )
+     )
+     (br $continue)
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $instanceof/isI32<i32> (; 2 ;) (type $ii) (param $0 i32) (result i32)
   (return
    (i32.const 1)
   )
  )
- (func $instanceof/isI32<f64> (; 2 ;) (type $Fi) (param $0 f64) (result i32)
+ (func $instanceof/isI32<f64> (; 3 ;) (type $Fi) (param $0 f64) (result i32)
   (return
    (i32.const 0)
   )
  )
- (func $instanceof/isI32<u32> (; 3 ;) (type $ii) (param $0 i32) (result i32)
+ (func $instanceof/isI32<u32> (; 4 ;) (type $ii) (param $0 i32) (result i32)
   (return
    (i32.const 0)
   )
  )
- (func $start (; 4 ;) (type $v)
+ (func $start (; 5 ;) (type $v)
   (if
    (i32.eqz
     (i32.const 1)
@@ -93,7 +148,13 @@
   (if
    (i32.eqz
     (i32.eqz
-     (i32.const 0)
+     (i32.and
+      (call $~instanceof
+       (get_global $instanceof/a)
+       (i32.const 5)
+      )
+      (i32.const 1)
+     )
     )
    )
    (block
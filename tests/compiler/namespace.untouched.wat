@@ -13,7 +13,7 @@
   (get_global $namespace/Outer.Inner.aVar)
  )
  (func $namespace/Joined.anotherFunc (; 1 ;) (type $i) (result i32)
-  (get_global $namespace/Joined.THREE)
+  (i32.const 3)
  )
  (func $start (; 2 ;) (type $v)
   (drop
@@ -23,7 +23,7 @@
    (call $namespace/Outer.Inner.aFunc)
   )
   (drop
-   (get_global $namespace/Outer.Inner.anEnum.ONE)
+   (i32.const 1)
   )
   (drop
    (call $namespace/Joined.anotherFunc)
@@ -192,13 +192,13 @@
        (set_local $6
         (i32.add
          (get_local $6)
-         (i32.const 1)
+         (i32.const 2)
         )
        )
        (set_local $7
         (i32.add
          (get_local $7)
-         (i32.const 1)
+         (i32.const 2)
         )
        )
       )
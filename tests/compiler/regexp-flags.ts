@@ -0,0 +1,5 @@
+// Expect error: AS209: Invalid regular expression flags.
+
+/a/x;
+/a/gg;
+/a/gim;
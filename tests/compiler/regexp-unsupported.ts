@@ -0,0 +1,10 @@
+// Expect error: Invalid regular expression: Lookahead assertions are not supported
+// Expect error: Invalid regular expression: Lookbehind assertions are not supported
+// Expect error: Invalid regular expression: Backreferences are not supported
+// Expect error: Invalid regular expression: Nothing to repeat
+
+/a(?=b)/;
+/a(?!b)/;
+/(?<!a)b/;
+/(a)\1/;
+/a|*b/;
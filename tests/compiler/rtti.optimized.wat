@@ -0,0 +1,796 @@
+(module
+ (type $ii (func (param i32) (result i32)))
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $iii (func (param i32 i32) (result i32)))
+ (type $v (func))
+ (type $FUNCSIG$i (func (result i32)))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
+ (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $rtti/animal (mut i32) (i32.const 0))
+ (global $rtti/cat (mut i32) (i32.const 0))
+ (global $rtti/lion (mut i32) (i32.const 0))
+ (global $rtti/dog (mut i32) (i32.const 0))
+ (global $rtti/maybeCat (mut i32) (i32.const 0))
+ (global $rtti/houseCat (mut i32) (i32.const 0))
+ (global $rtti/puppy (mut i32) (i32.const 0))
+ (global $rtti/kitten (mut i32) (i32.const 0))
+ (global $rtti/maybePet (mut i32) (i32.const 0))
+ (global $RTTI_BASE i32 (i32.const 32))
+ (memory $0 1)
+ (data (i32.const 8) "\07\00\00\00r\00t\00t\00i\00.\00t\00s")
+ (data (i32.const 32) "\0c\00\00\00\01")
+ (data (i32.const 48) "\02")
+ (data (i32.const 60) "\03\00\00\00\00\00\00\00\04\00\00\00\04\00\00\00\00\00\00\00\04\00\00\00\05\00\00\00\04\00\00\00\04\00\00\00\06\00\00\00\05\00\00\00\04\00\00\00\07\00\00\00\04\00\00\00\04\00\00\00\08\00\00\00\05\00\00\00\04\00\00\00\t\00\00\00\00\00\00\00\01\00\00\00\n\00\00\00\07\00\00\00\04\00\00\00\0b\00\00\00\t\00\00\00\01\00\00\00\0c\00\00\00\08\00\00\00\04")
+ (export "RTTI_BASE" (global $RTTI_BASE))
+ (export "memory" (memory $0))
+ (start $start)
+ (func $~lib/allocator/arena/__memory_allocate (; 1 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 1073741824)
+   )
+   (unreachable)
+  )
+  (if
+   (i32.gt_u
+    (tee_local $2
+     (i32.and
+      (i32.add
+       (i32.add
+        (tee_local $1
+         (get_global $~lib/allocator/arena/offset)
+        )
+        (select
+         (get_local $0)
+         (i32.const 1)
+         (i32.gt_u
+          (get_local $0)
+          (i32.const 1)
+         )
+        )
+       )
+       (i32.const 7)
+      )
+      (i32.const -8)
+     )
+    )
+    (i32.shl
+     (tee_local $3
+      (current_memory)
+     )
+     (i32.const 16)
+    )
+   )
+   (if
+    (i32.lt_s
+     (grow_memory
+      (select
+       (get_local $3)
+       (tee_local $0
+        (i32.shr_u
+         (i32.and
+          (i32.add
+           (i32.sub
+            (get_local $2)
+            (get_local $1)
+           )
+           (i32.const 65535)
+          )
+          (i32.const -65536)
+         )
+         (i32.const 16)
+        )
+       )
+       (i32.gt_s
+        (get_local $3)
+        (get_local $0)
+       )
+      )
+     )
+     (i32.const 0)
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_local $2)
+  )
+  (get_local $1)
+ )
+ (func $~lib/memory/memory.allocate (; 2 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (call $~lib/allocator/arena/__memory_allocate
+   (i32.const 8)
+  )
+ )
+ (func $~instanceof (; 3 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $2
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (loop $continue
+   (if
+    (i32.eq
+     (get_local $2)
+     (get_local $1)
+    )
+    (return
+     (i32.const 1)
+    )
+   )
+   (if
+    (get_local $2)
+    (block
+     (set_local $2
+      (i32.load
+       (i32.add
+        (i32.mul
+         (get_local $2)
+         (i32.const 12)
+        )
+        (i32.const 28)
+       )
+      )
+     )
+     (br $continue)
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $rtti/isCat (; 4 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~instanceof
+   (get_local $0)
+   (i32.const 5)
+  )
+ )
+ (func $rtti/isHouseCat (; 5 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~instanceof
+   (get_local $0)
+   (i32.const 8)
+  )
+ )
+ (func $~instanceof|rtti/Pet (; 6 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.or
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
+       )
+      )
+     )
+     (i32.const 8)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 10)
+    )
+   )
+   (i32.eq
+    (get_local $1)
+    (i32.const 12)
+   )
+  )
+ )
+ (func $~instanceof|rtti/Trained (; 7 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.eq
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+   (i32.const 10)
+  )
+ )
+ (func $start (; 8 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (set_global $~lib/allocator/arena/startOffset
+   (i32.const 184)
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_global $~lib/allocator/arena/startOffset)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 4)
+  )
+  (set_global $rtti/animal
+   (get_local $0)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 5)
+  )
+  (set_global $rtti/cat
+   (get_local $0)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 6)
+  )
+  (set_global $rtti/lion
+   (get_local $0)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 7)
+  )
+  (set_global $rtti/dog
+   (get_local $0)
+  )
+  (if
+   (i32.and
+    (call $~instanceof
+     (get_global $rtti/animal)
+     (i32.const 5)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 14)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $~instanceof
+      (get_global $rtti/cat)
+      (i32.const 5)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 15)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $~instanceof
+      (get_global $rtti/lion)
+      (i32.const 5)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 16)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.and
+    (call $~instanceof
+     (get_global $rtti/dog)
+     (i32.const 5)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 17)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $~instanceof
+      (get_global $rtti/lion)
+      (i32.const 6)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 18)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.and
+    (call $~instanceof
+     (get_global $rtti/cat)
+     (i32.const 6)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 19)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $~instanceof
+      (get_global $rtti/dog)
+      (i32.const 7)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 20)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.and
+    (call $~instanceof
+     (get_global $rtti/maybeCat)
+     (i32.const 5)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 23)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 5)
+  )
+  (set_global $rtti/maybeCat
+   (get_local $0)
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $~instanceof
+      (get_global $rtti/maybeCat)
+      (i32.const 5)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 25)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 6)
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $rtti/isCat
+      (get_local $0)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 31)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 7)
+  )
+  (if
+   (i32.and
+    (call $rtti/isCat
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 32)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 8)
+  )
+  (set_global $rtti/houseCat
+   (get_local $0)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 10)
+  )
+  (set_global $rtti/puppy
+   (get_local $0)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 12)
+  )
+  (set_global $rtti/kitten
+   (get_local $0)
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $~instanceof|rtti/Pet
+      (get_global $rtti/houseCat)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 54)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $~instanceof|rtti/Pet
+      (get_global $rtti/puppy)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 55)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $~instanceof|rtti/Pet
+      (get_global $rtti/kitten)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 56)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.and
+    (call $~instanceof|rtti/Pet
+     (get_global $rtti/cat)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 57)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.and
+    (call $~instanceof|rtti/Pet
+     (get_global $rtti/dog)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 58)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $~instanceof|rtti/Trained
+      (get_global $rtti/puppy)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 59)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.and
+    (call $~instanceof|rtti/Trained
+     (get_global $rtti/houseCat)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 60)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 12)
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $rtti/isHouseCat
+      (get_local $0)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 66)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 10)
+  )
+  (if
+   (i32.and
+    (call $rtti/isHouseCat
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 67)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.and
+    (call $~instanceof|rtti/Pet
+     (get_global $rtti/maybePet)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 70)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+ )
+)
@@ -0,0 +1,70 @@
+import "allocator/arena";
+
+class Animal {}
+class Cat extends Animal {}
+class Lion extends Cat {}
+class Dog extends Animal {}
+
+var animal: Animal = new Animal();
+var cat: Animal = new Cat();
+var lion: Animal = new Lion();
+var dog: Animal = new Dog();
+
+assert(  animal instanceof Animal );
+assert(!(animal instanceof Cat));
+assert(  cat instanceof Cat );
+assert(  lion instanceof Cat );
+assert(!(dog instanceof Cat));
+assert(  lion instanceof Lion );
+assert(!(cat instanceof Lion));
+assert(  dog instanceof Dog );
+
+var maybeCat: Animal | null = null;
+assert(!(maybeCat instanceof Cat));
+maybeCat = new Cat();
+assert(  maybeCat instanceof Cat );
+
+function isCat(animal: Animal): bool {
+  return animal instanceof Cat;
+}
+
+assert( isCat(new Lion()));
+assert(!isCat(new Dog()));
+
+interface Pet {
+  name(): i32;
+}
+
+interface Trained extends Pet {}
+
+class HouseCat extends Cat implements Pet {
+  name(): i32 { return 1; }
+}
+
+class Puppy extends Dog implements Trained {
+  name(): i32 { return 2; }
+}
+
+class Kitten extends HouseCat {}
+
+var houseCat: Animal = new HouseCat();
+var puppy: Animal = new Puppy();
+var kitten: Animal = new Kitten();
+
+assert(  houseCat instanceof Pet );
+assert(  puppy instanceof Pet );
+assert(  kitten instanceof Pet );
+assert(!(cat instanceof Pet));
+assert(!(dog instanceof Pet));
+assert(  puppy instanceof Trained );
+assert(!(houseCat instanceof Trained));
+
+function isHouseCat(pet: Pet): bool {
+  return pet instanceof HouseCat;
+}
+
+assert( isHouseCat(new Kitten()));
+assert(!isHouseCat(new Puppy()));
+
+var maybePet: Animal | null = null;
+assert(!(maybePet instanceof Pet));
@@ -0,0 +1,1006 @@
+(module
+ (type $ii (func (param i32) (result i32)))
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $iii (func (param i32 i32) (result i32)))
+ (type $v (func))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/internal/allocator/AL_BITS i32 (i32.const 3))
+ (global $~lib/internal/allocator/AL_SIZE i32 (i32.const 8))
+ (global $~lib/internal/allocator/AL_MASK i32 (i32.const 7))
+ (global $~lib/internal/allocator/MAX_SIZE_32 i32 (i32.const 1073741824))
+ (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
+ (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $rtti/animal (mut i32) (i32.const 0))
+ (global $rtti/cat (mut i32) (i32.const 0))
+ (global $rtti/lion (mut i32) (i32.const 0))
+ (global $rtti/dog (mut i32) (i32.const 0))
+ (global $rtti/maybeCat (mut i32) (i32.const 0))
+ (global $rtti/houseCat (mut i32) (i32.const 0))
+ (global $rtti/puppy (mut i32) (i32.const 0))
+ (global $rtti/kitten (mut i32) (i32.const 0))
+ (global $rtti/maybePet (mut i32) (i32.const 0))
+ (global $RTTI_BASE i32 (i32.const 32))
+ (global $HEAP_BASE i32 (i32.const 180))
+ (memory $0 1)
+ (data (i32.const 8) "\07\00\00\00r\00t\00t\00i\00.\00t\00s\00")
+ (data (i32.const 32) "\0c\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\02\00\00\00\00\00\00\00\00\00\00\00\03\00\00\00\00\00\00\00\04\00\00\00\04\00\00\00\00\00\00\00\04\00\00\00\05\00\00\00\04\00\00\00\04\00\00\00\06\00\00\00\05\00\00\00\04\00\00\00\07\00\00\00\04\00\00\00\04\00\00\00\08\00\00\00\05\00\00\00\04\00\00\00\t\00\00\00\00\00\00\00\01\00\00\00\n\00\00\00\07\00\00\00\04\00\00\00\0b\00\00\00\t\00\00\00\01\00\00\00\0c\00\00\00\08\00\00\00\04\00\00\00")
+ (export "RTTI_BASE" (global $RTTI_BASE))
+ (export "memory" (memory $0))
+ (start $start)
+ (func $~lib/allocator/arena/__memory_allocate (; 1 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (get_global $~lib/internal/allocator/MAX_SIZE_32)
+   )
+   (unreachable)
+  )
+  (set_local $1
+   (get_global $~lib/allocator/arena/offset)
+  )
+  (set_local $4
+   (i32.and
+    (i32.add
+     (i32.add
+      (get_local $1)
+      (select
+       (tee_local $2
+        (get_local $0)
+       )
+       (tee_local $3
+        (i32.const 1)
+       )
+       (i32.gt_u
+        (get_local $2)
+        (get_local $3)
+       )
+      )
+     )
+     (get_global $~lib/internal/allocator/AL_MASK)
+    )
+    (i32.xor
+     (get_global $~lib/internal/allocator/AL_MASK)
+     (i32.const -1)
+    )
+   )
+  )
+  (set_local $5
+   (current_memory)
+  )
+  (if
+   (i32.gt_u
+    (get_local $4)
+    (i32.shl
+     (get_local $5)
+     (i32.const 16)
+    )
+   )
+   (block
+    (set_local $2
+     (i32.shr_u
+      (i32.and
+       (i32.add
+        (i32.sub
+         (get_local $4)
+         (get_local $1)
+        )
+        (i32.const 65535)
+       )
+       (i32.xor
+        (i32.const 65535)
+        (i32.const -1)
+       )
+      )
+      (i32.const 16)
+     )
+    )
+    (set_local $3
+     (select
+      (tee_local $3
+       (get_local $5)
+      )
+      (tee_local $6
+       (get_local $2)
+      )
+      (i32.gt_s
+       (get_local $3)
+       (get_local $6)
+      )
+     )
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $3)
+      )
+      (i32.const 0)
+     )
+     (if
+      (i32.lt_s
+       (grow_memory
+        (get_local $2)
+       )
+       (i32.const 0)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_local $4)
+  )
+  (get_local $1)
+ )
+ (func $~lib/memory/memory.allocate (; 2 ;) (type $ii) (param $0 i32) (result i32)
+  (return
+   (call $~lib/allocator/arena/__memory_allocate
+    (get_local $0)
+   )
+  )
+ )
+ (func $~instanceof (; 3 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $2
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (loop $continue
+   (if
+    (i32.eq
+     (get_local $2)
+     (get_local $1)
+    )
+    (return
+     (i32.const 1)
+    )
+   )
+   (if
+    (get_local $2)
+    (block
+     (set_local $2
+      (i32.load
+       (i32.add
+        (get_global $RTTI_BASE)
+        (i32.sub
+         (i32.mul
+          (get_local $2)
+          (i32.const 12)
+         )
+         (i32.const 4)
+        )
+       )
+      )
+     )
+     (br $continue)
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $rtti/isCat (; 4 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~instanceof
+   (get_local $0)
+   (i32.const 5)
+  )
+ )
+ (func $rtti/isHouseCat (; 5 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~instanceof
+   (get_local $0)
+   (i32.const 8)
+  )
+ )
+ (func $~instanceof|rtti/Pet (; 6 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (i32.or
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 8)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 10)
+    )
+   )
+   (i32.eq
+    (get_local $1)
+    (i32.const 12)
+   )
+  )
+ )
+ (func $~instanceof|rtti/Trained (; 7 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (i32.eq
+   (get_local $1)
+   (i32.const 10)
+  )
+ )
+ (func $start (; 8 ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (set_global $~lib/allocator/arena/startOffset
+   (i32.and
+    (i32.add
+     (get_global $HEAP_BASE)
+     (get_global $~lib/internal/allocator/AL_MASK)
+    )
+    (i32.xor
+     (get_global $~lib/internal/allocator/AL_MASK)
+     (i32.const -1)
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_global $~lib/allocator/arena/startOffset)
+  )
+  (set_global $rtti/animal
+   (block (result i32)
+    (set_local $0
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $1
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 8)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 4)
+      )
+      (get_local $1)
+     )
+    )
+    (get_local $0)
+   )
+  )
+  (set_global $rtti/cat
+   (block (result i32)
+    (set_local $0
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $1
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 8)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 5)
+      )
+      (get_local $1)
+     )
+    )
+    (get_local $0)
+   )
+  )
+  (set_global $rtti/lion
+   (block (result i32)
+    (set_local $0
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $1
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 8)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 6)
+      )
+      (get_local $1)
+     )
+    )
+    (get_local $0)
+   )
+  )
+  (set_global $rtti/dog
+   (block (result i32)
+    (set_local $0
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $1
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 8)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 7)
+      )
+      (get_local $1)
+     )
+    )
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 13)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eqz
+     (i32.and
+      (call $~instanceof
+       (get_global $rtti/animal)
+       (i32.const 5)
+      )
+      (i32.const 1)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 14)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $~instanceof
+      (get_global $rtti/cat)
+      (i32.const 5)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 15)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $~instanceof
+      (get_global $rtti/lion)
+      (i32.const 5)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 16)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eqz
+     (i32.and
+      (call $~instanceof
+       (get_global $rtti/dog)
+       (i32.const 5)
+      )
+      (i32.const 1)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 17)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $~instanceof
+      (get_global $rtti/lion)
+      (i32.const 6)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 18)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eqz
+     (i32.and
+      (call $~instanceof
+       (get_global $rtti/cat)
+       (i32.const 6)
+      )
+      (i32.const 1)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 19)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $~instanceof
+      (get_global $rtti/dog)
+      (i32.const 7)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 20)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eqz
+     (i32.and
+      (call $~instanceof
+       (get_global $rtti/maybeCat)
+       (i32.const 5)
+      )
+      (i32.const 1)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 23)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $rtti/maybeCat
+   (block (result i32)
+    (set_local $0
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $1
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 8)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 5)
+      )
+      (get_local $1)
+     )
+    )
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $~instanceof
+      (get_global $rtti/maybeCat)
+      (i32.const 5)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 25)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $rtti/isCat
+      (block (result i32)
+       (set_local $0
+        (block (result i32)
+         (i32.store
+          (i32.sub
+           (tee_local $1
+            (i32.add
+             (call $~lib/memory/memory.allocate
+              (i32.const 8)
+             )
+             (i32.const 8)
+            )
+           )
+           (i32.const 4)
+          )
+          (i32.const 6)
+         )
+         (get_local $1)
+        )
+       )
+       (get_local $0)
+      )
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 31)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eqz
+     (i32.and
+      (call $rtti/isCat
+       (block (result i32)
+        (set_local $0
+         (block (result i32)
+          (i32.store
+           (i32.sub
+            (tee_local $1
+             (i32.add
+              (call $~lib/memory/memory.allocate
+               (i32.const 8)
+              )
+              (i32.const 8)
+             )
+            )
+            (i32.const 4)
+           )
+           (i32.const 7)
+          )
+          (get_local $1)
+         )
+        )
+        (get_local $0)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 32)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $rtti/houseCat
+   (block (result i32)
+    (set_local $0
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $1
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 8)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 8)
+      )
+      (get_local $1)
+     )
+    )
+    (get_local $0)
+   )
+  )
+  (set_global $rtti/puppy
+   (block (result i32)
+    (set_local $0
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $1
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 8)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 10)
+      )
+      (get_local $1)
+     )
+    )
+    (get_local $0)
+   )
+  )
+  (set_global $rtti/kitten
+   (block (result i32)
+    (set_local $0
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $1
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 8)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 12)
+      )
+      (get_local $1)
+     )
+    )
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $~instanceof|rtti/Pet
+      (get_global $rtti/houseCat)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 54)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $~instanceof|rtti/Pet
+      (get_global $rtti/puppy)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 55)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $~instanceof|rtti/Pet
+      (get_global $rtti/kitten)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 56)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eqz
+     (i32.and
+      (call $~instanceof|rtti/Pet
+       (get_global $rtti/cat)
+      )
+      (i32.const 1)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 57)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eqz
+     (i32.and
+      (call $~instanceof|rtti/Pet
+       (get_global $rtti/dog)
+      )
+      (i32.const 1)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 58)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $~instanceof|rtti/Trained
+      (get_global $rtti/puppy)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 59)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eqz
+     (i32.and
+      (call $~instanceof|rtti/Trained
+       (get_global $rtti/houseCat)
+      )
+      (i32.const 1)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 60)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (call $rtti/isHouseCat
+      (block (result i32)
+       (set_local $0
+        (block (result i32)
+         (i32.store
+          (i32.sub
+           (tee_local $1
+            (i32.add
+             (call $~lib/memory/memory.allocate
+              (i32.const 8)
+             )
+             (i32.const 8)
+            )
+           )
+           (i32.const 4)
+          )
+          (i32.const 12)
+         )
+         (get_local $1)
+        )
+       )
+       (get_local $0)
+      )
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 66)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eqz
+     (i32.and
+      (call $rtti/isHouseCat
+       (block (result i32)
+        (set_local $0
+         (block (result i32)
+          (i32.store
+           (i32.sub
+            (tee_local $1
+             (i32.add
+              (call $~lib/memory/memory.allocate
+               (i32.const 8)
+              )
+              (i32.const 8)
+             )
+            )
+            (i32.const 4)
+           )
+           (i32.const 10)
+          )
+          (get_local $1)
+         )
+        )
+        (get_local $0)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 67)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eqz
+     (i32.and
+      (call $~instanceof|rtti/Pet
+       (get_global $rtti/maybePet)
+      )
+      (i32.const 1)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 70)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+ )
+)
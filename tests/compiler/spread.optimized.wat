@@ -0,0 +1,3162 @@
+(module
+ (type $ii (func (param i32) (result i32)))
+ (type $iii (func (param i32 i32) (result i32)))
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $iiiv (func (param i32 i32 i32)))
+ (type $v (func))
+ (type $FUNCSIG$i (func (result i32)))
+ (type $FUNCSIG$vii (func (param i32 i32)))
+ (type $FUNCSIG$ii (func (param i32) (result i32)))
+ (type $FUNCSIG$vi (func (param i32)))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
+ (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $~argc (mut i32) (i32.const 0))
+ (global $spread/numbers (mut i32) (i32.const 240))
+ (global $spread/spread (mut i32) (i32.const 0))
+ (global $spread/copy (mut i32) (i32.const 0))
+ (global $spread/variadic (mut i32) (i32.const 544))
+ (global $~env (mut i32) (i32.const 0))
+ (global $spread/total (mut i32) (i32.const 0))
+ (table 1 1 anyfunc)
+ (elem (i32.const 0) $spread/sum|trampoline)
+ (memory $0 1)
+ (data (i32.const 16) "\08")
+ (data (i32.const 24) "\t\00\00\00s\00p\00r\00e\00a\00d\00.\00t\00s")
+ (data (i32.const 48) "\04\00\00\00\00\00\00\00\01")
+ (data (i32.const 64) "0\00\00\00\01")
+ (data (i32.const 72) "\0c\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03")
+ (data (i32.const 104) "H\00\00\00\03")
+ (data (i32.const 120) "p")
+ (data (i32.const 128) "\08\00\00\00\00\00\00\00\01\00\00\00\02")
+ (data (i32.const 144) "\80\00\00\00\02")
+ (data (i32.const 160) "\98")
+ (data (i32.const 176) "\a8")
+ (data (i32.const 184) "\08\00\00\00\00\00\00\00\03\00\00\00\04")
+ (data (i32.const 200) "\b8\00\00\00\02")
+ (data (i32.const 208) "\0c\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03")
+ (data (i32.const 240) "\d0\00\00\00\03")
+ (data (i32.const 256) "\f8")
+ (data (i32.const 264) "\0d\00\00\00~\00l\00i\00b\00/\00a\00r\00r\00a\00y\00.\00t\00s")
+ (data (i32.const 296) "\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s")
+ (data (i32.const 360) "\04")
+ (data (i32.const 376) "h\01\00\00\01")
+ (data (i32.const 384) "\04\00\00\00\00\00\00\00\04")
+ (data (i32.const 400) "\80\01\00\00\01")
+ (data (i32.const 416) "\98\01")
+ (data (i32.const 424) "\08\00\00\00\00\00\00\00\01\00\00\00\02")
+ (data (i32.const 440) "\a8\01\00\00\02")
+ (data (i32.const 448) "\04")
+ (data (i32.const 464) "\c0\01\00\00\01")
+ (data (i32.const 472) "\0c\00\00\00\00\00\00\00\04\00\00\00\05\00\00\00\06")
+ (data (i32.const 504) "\d8\01\00\00\03")
+ (data (i32.const 521) "\02")
+ (data (i32.const 536) "\10\02")
+ (data (i32.const 552) "\08\00\00\00\00\00\00\00\01\00\00\00\02")
+ (data (i32.const 568) "(\02\00\00\02")
+ (data (i32.const 584) "@\02")
+ (data (i32.const 592) "\08\00\00\00\00\00\00\00\01\00\00\00\02")
+ (data (i32.const 608) "P\02\00\00\02")
+ (data (i32.const 624) "h\02")
+ (export "memory" (memory $0))
+ (export "table" (table $0))
+ (start $start)
+ (func $~lib/array/Array<i32>#__get (; 1 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (tee_local $0
+   (if (result i32)
+    (i32.lt_u
+     (get_local $1)
+     (i32.shr_u
+      (i32.load
+       (tee_local $0
+        (i32.load
+         (get_local $0)
+        )
+       )
+      )
+      (i32.const 2)
+     )
+    )
+    (i32.load offset=8
+     (i32.add
+      (get_local $0)
+      (i32.shl
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+    )
+    (unreachable)
+   )
+  )
+ )
+ (func $spread/sum (; 2 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (set_local $3
+    (i32.load offset=4
+     (get_local $0)
+    )
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $1)
+      (get_local $3)
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (call $~lib/array/Array<i32>#__get
+       (get_local $0)
+       (get_local $1)
+      )
+     )
+    )
+    (set_local $1
+     (i32.add
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $2)
+ )
+ (func $spread/count (; 3 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.add
+   (get_local $0)
+   (i32.load offset=4
+    (get_local $1)
+   )
+  )
+ )
+ (func $spread/optional|trampoline (; 4 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (block $2of2
+   (block $1of2
+    (block $0of2
+     (block $outOfRange
+      (br_table $0of2 $1of2 $2of2 $outOfRange
+       (get_global $~argc)
+      )
+     )
+     (unreachable)
+    )
+    (set_local $1
+     (i32.const 1)
+    )
+   )
+   (set_local $0
+    (i32.const 160)
+   )
+  )
+  (call $spread/count
+   (get_local $1)
+   (get_local $0)
+  )
+ )
+ (func $~lib/internal/arraybuffer/computeSize (; 5 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.shl
+   (i32.const 1)
+   (i32.sub
+    (i32.const 32)
+    (i32.clz
+     (i32.add
+      (get_local $0)
+      (i32.const 7)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/allocator/arena/__memory_allocate (; 6 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 1073741824)
+   )
+   (unreachable)
+  )
+  (if
+   (i32.gt_u
+    (tee_local $2
+     (i32.and
+      (i32.add
+       (i32.add
+        (tee_local $1
+         (get_global $~lib/allocator/arena/offset)
+        )
+        (select
+         (get_local $0)
+         (i32.const 1)
+         (i32.gt_u
+          (get_local $0)
+          (i32.const 1)
+         )
+        )
+       )
+       (i32.const 7)
+      )
+      (i32.const -8)
+     )
+    )
+    (i32.shl
+     (tee_local $3
+      (current_memory)
+     )
+     (i32.const 16)
+    )
+   )
+   (if
+    (i32.lt_s
+     (grow_memory
+      (select
+       (get_local $3)
+       (tee_local $0
+        (i32.shr_u
+         (i32.and
+          (i32.add
+           (i32.sub
+            (get_local $2)
+            (get_local $1)
+           )
+           (i32.const 65535)
+          )
+          (i32.const -65536)
+         )
+         (i32.const 16)
+        )
+       )
+       (i32.gt_s
+        (get_local $3)
+        (get_local $0)
+       )
+      )
+     )
+     (i32.const 0)
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_local $2)
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/arraybuffer/allocateUnsafe (; 7 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 1073741816)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 296)
+     (i32.const 23)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $1
+    (call $~lib/allocator/arena/__memory_allocate
+     (call $~lib/internal/arraybuffer/computeSize
+      (get_local $0)
+     )
+    )
+   )
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/memory/memory.allocate (; 8 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/allocator/arena/__memory_allocate
+   (get_local $0)
+  )
+ )
+ (func $~lib/internal/memory/memset (; 9 ;) (; has Stack IR ;) (type $FUNCSIG$vii) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (return)
+  )
+  (i32.store8
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $1)
+    )
+    (i32.const 1)
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.le_u
+    (get_local $1)
+    (i32.const 2)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 1)
+   )
+   (i32.const 0)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 2)
+   )
+   (i32.const 0)
+  )
+  (i32.store8
+   (i32.sub
+    (tee_local $2
+     (i32.add
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+    (i32.const 2)
+   )
+   (i32.const 0)
+  )
+  (i32.store8
+   (i32.sub
+    (get_local $2)
+    (i32.const 3)
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.le_u
+    (get_local $1)
+    (i32.const 6)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 3)
+   )
+   (i32.const 0)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $1)
+    )
+    (i32.const 4)
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.le_u
+    (get_local $1)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (i32.store
+   (tee_local $0
+    (i32.add
+     (get_local $0)
+     (tee_local $2
+      (i32.and
+       (i32.sub
+        (i32.const 0)
+        (get_local $0)
+       )
+       (i32.const 3)
+      )
+     )
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (tee_local $1
+      (i32.and
+       (i32.sub
+        (get_local $1)
+        (get_local $2)
+       )
+       (i32.const -4)
+      )
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.le_u
+    (get_local $1)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 4)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 8)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $2
+     (i32.add
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+    (i32.const 12)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (get_local $2)
+    (i32.const 8)
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.le_u
+    (get_local $1)
+    (i32.const 24)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 12)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 16)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 20)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 24)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $2
+     (i32.add
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+    (i32.const 28)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (get_local $2)
+    (i32.const 24)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (get_local $2)
+    (i32.const 20)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (get_local $2)
+    (i32.const 16)
+   )
+   (i32.const 0)
+  )
+  (set_local $0
+   (i32.add
+    (get_local $0)
+    (tee_local $2
+     (i32.add
+      (i32.and
+       (get_local $0)
+       (i32.const 4)
+      )
+      (i32.const 24)
+     )
+    )
+   )
+  )
+  (set_local $1
+   (i32.sub
+    (get_local $1)
+    (get_local $2)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.ge_u
+     (get_local $1)
+     (i32.const 32)
+    )
+    (block
+     (i64.store
+      (get_local $0)
+      (i64.const 0)
+     )
+     (i64.store
+      (i32.add
+       (get_local $0)
+       (i32.const 8)
+      )
+      (i64.const 0)
+     )
+     (i64.store
+      (i32.add
+       (get_local $0)
+       (i32.const 16)
+      )
+      (i64.const 0)
+     )
+     (i64.store
+      (i32.add
+       (get_local $0)
+       (i32.const 24)
+      )
+      (i64.const 0)
+     )
+     (set_local $1
+      (i32.sub
+       (get_local $1)
+       (i32.const 32)
+      )
+     )
+     (set_local $0
+      (i32.add
+       (get_local $0)
+       (i32.const 32)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+ )
+ (func $~lib/array/Array<i32>#constructor (; 10 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 268435454)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 264)
+     (i32.const 23)
+     (i32.const 39)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $2
+   (call $~lib/internal/arraybuffer/allocateUnsafe
+    (tee_local $3
+     (i32.shl
+      (get_local $0)
+      (i32.const 2)
+     )
+    )
+   )
+  )
+  (i32.store
+   (tee_local $1
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $2)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (get_local $0)
+  )
+  (call $~lib/internal/memory/memset
+   (i32.add
+    (get_local $2)
+    (i32.const 8)
+   )
+   (get_local $3)
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/memory/memcpy (; 11 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (loop $continue|0
+   (if
+    (tee_local $3
+     (if (result i32)
+      (get_local $2)
+      (i32.and
+       (get_local $1)
+       (i32.const 3)
+      )
+      (get_local $2)
+     )
+    )
+    (block
+     (set_local $0
+      (i32.add
+       (tee_local $4
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (tee_local $3
+        (get_local $1)
+       )
+       (i32.const 1)
+      )
+     )
+     (i32.store8
+      (get_local $4)
+      (i32.load8_u
+       (get_local $3)
+      )
+     )
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (get_local $0)
+     (i32.const 3)
+    )
+   )
+   (block
+    (loop $continue|1
+     (if
+      (i32.ge_u
+       (get_local $2)
+       (i32.const 16)
+      )
+      (block
+       (i32.store
+        (get_local $0)
+        (i32.load
+         (get_local $1)
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 4)
+        )
+        (i32.load
+         (i32.add
+          (get_local $1)
+          (i32.const 4)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (i32.load
+         (i32.add
+          (get_local $1)
+          (i32.const 8)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 12)
+        )
+        (i32.load
+         (i32.add
+          (get_local $1)
+          (i32.const 12)
+         )
+        )
+       )
+       (set_local $1
+        (i32.add
+         (get_local $1)
+         (i32.const 16)
+        )
+       )
+       (set_local $0
+        (i32.add
+         (get_local $0)
+         (i32.const 16)
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 16)
+        )
+       )
+       (br $continue|1)
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 8)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+       (i32.load
+        (i32.add
+         (get_local $1)
+         (i32.const 4)
+        )
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 8)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 8)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 4)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 4)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 2)
+     )
+     (block
+      (i32.store16
+       (get_local $0)
+       (i32.load16_u
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 2)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 1)
+     )
+     (block
+      (set_local $3
+       (get_local $1)
+      )
+      (i32.store8
+       (get_local $0)
+       (i32.load8_u
+        (get_local $1)
+       )
+      )
+     )
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $2)
+    (i32.const 32)
+   )
+   (block $break|2
+    (block $case2|2
+     (block $case1|2
+      (if
+       (i32.ne
+        (tee_local $3
+         (i32.and
+          (get_local $0)
+          (i32.const 3)
+         )
+        )
+        (i32.const 1)
+       )
+       (block
+        (br_if $case1|2
+         (i32.eq
+          (get_local $3)
+          (i32.const 2)
+         )
+        )
+        (br_if $case2|2
+         (i32.eq
+          (get_local $3)
+          (i32.const 3)
+         )
+        )
+        (br $break|2)
+       )
+      )
+      (set_local $5
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store8
+       (get_local $0)
+       (i32.load8_u
+        (tee_local $3
+         (get_local $1)
+        )
+       )
+      )
+      (set_local $0
+       (tee_local $1
+        (i32.add
+         (get_local $0)
+         (i32.const 1)
+        )
+       )
+      )
+      (i32.store8
+       (get_local $1)
+       (i32.load8_u
+        (tee_local $1
+         (i32.add
+          (get_local $3)
+          (i32.const 1)
+         )
+        )
+       )
+      )
+      (set_local $0
+       (i32.add
+        (tee_local $4
+         (i32.add
+          (get_local $0)
+          (i32.const 1)
+         )
+        )
+        (i32.const 1)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (tee_local $3
+         (i32.add
+          (get_local $1)
+          (i32.const 1)
+         )
+        )
+        (i32.const 1)
+       )
+      )
+      (i32.store8
+       (get_local $4)
+       (i32.load8_u
+        (get_local $3)
+       )
+      )
+      (set_local $2
+       (i32.sub
+        (get_local $2)
+        (i32.const 3)
+       )
+      )
+      (loop $continue|3
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 17)
+        )
+        (block
+         (i32.store
+          (get_local $0)
+          (i32.or
+           (i32.shr_u
+            (get_local $5)
+            (i32.const 24)
+           )
+           (i32.shl
+            (tee_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 1)
+              )
+             )
+            )
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 4)
+          )
+          (i32.or
+           (i32.shr_u
+            (get_local $3)
+            (i32.const 24)
+           )
+           (i32.shl
+            (tee_local $5
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 5)
+              )
+             )
+            )
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 8)
+          )
+          (i32.or
+           (i32.shr_u
+            (get_local $5)
+            (i32.const 24)
+           )
+           (i32.shl
+            (tee_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 9)
+              )
+             )
+            )
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 12)
+          )
+          (i32.or
+           (i32.shr_u
+            (get_local $3)
+            (i32.const 24)
+           )
+           (i32.shl
+            (tee_local $5
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 13)
+              )
+             )
+            )
+            (i32.const 8)
+           )
+          )
+         )
+         (set_local $1
+          (i32.add
+           (get_local $1)
+           (i32.const 16)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (get_local $0)
+           (i32.const 16)
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 16)
+          )
+         )
+         (br $continue|3)
+        )
+       )
+      )
+      (br $break|2)
+     )
+     (set_local $5
+      (i32.load
+       (get_local $1)
+      )
+     )
+     (i32.store8
+      (get_local $0)
+      (i32.load8_u
+       (get_local $1)
+      )
+     )
+     (set_local $0
+      (i32.add
+       (tee_local $4
+        (i32.add
+         (get_local $0)
+         (i32.const 1)
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (tee_local $3
+        (i32.add
+         (get_local $1)
+         (i32.const 1)
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (i32.store8
+      (get_local $4)
+      (i32.load8_u
+       (get_local $3)
+      )
+     )
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 2)
+      )
+     )
+     (loop $continue|4
+      (if
+       (i32.ge_u
+        (get_local $2)
+        (i32.const 18)
+       )
+       (block
+        (i32.store
+         (get_local $0)
+         (i32.or
+          (i32.shr_u
+           (get_local $5)
+           (i32.const 16)
+          )
+          (i32.shl
+           (tee_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 2)
+             )
+            )
+           )
+           (i32.const 16)
+          )
+         )
+        )
+        (i32.store
+         (i32.add
+          (get_local $0)
+          (i32.const 4)
+         )
+         (i32.or
+          (i32.shr_u
+           (get_local $3)
+           (i32.const 16)
+          )
+          (i32.shl
+           (tee_local $5
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 6)
+             )
+            )
+           )
+           (i32.const 16)
+          )
+         )
+        )
+        (i32.store
+         (i32.add
+          (get_local $0)
+          (i32.const 8)
+         )
+         (i32.or
+          (i32.shr_u
+           (get_local $5)
+           (i32.const 16)
+          )
+          (i32.shl
+           (tee_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 10)
+             )
+            )
+           )
+           (i32.const 16)
+          )
+         )
+        )
+        (i32.store
+         (i32.add
+          (get_local $0)
+          (i32.const 12)
+         )
+         (i32.or
+          (i32.shr_u
+           (get_local $3)
+           (i32.const 16)
+          )
+          (i32.shl
+           (tee_local $5
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 14)
+             )
+            )
+           )
+           (i32.const 16)
+          )
+         )
+        )
+        (set_local $1
+         (i32.add
+          (get_local $1)
+          (i32.const 16)
+         )
+        )
+        (set_local $0
+         (i32.add
+          (get_local $0)
+          (i32.const 16)
+         )
+        )
+        (set_local $2
+         (i32.sub
+          (get_local $2)
+          (i32.const 16)
+         )
+        )
+        (br $continue|4)
+       )
+      )
+     )
+     (br $break|2)
+    )
+    (set_local $5
+     (i32.load
+      (get_local $1)
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (get_local $1)
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+    (set_local $2
+     (i32.sub
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (loop $continue|5
+     (if
+      (i32.ge_u
+       (get_local $2)
+       (i32.const 19)
+      )
+      (block
+       (i32.store
+        (get_local $0)
+        (i32.or
+         (i32.shr_u
+          (get_local $5)
+          (i32.const 8)
+         )
+         (i32.shl
+          (tee_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 3)
+            )
+           )
+          )
+          (i32.const 24)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 4)
+        )
+        (i32.or
+         (i32.shr_u
+          (get_local $3)
+          (i32.const 8)
+         )
+         (i32.shl
+          (tee_local $5
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 7)
+            )
+           )
+          )
+          (i32.const 24)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (i32.or
+         (i32.shr_u
+          (get_local $5)
+          (i32.const 8)
+         )
+         (i32.shl
+          (tee_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 11)
+            )
+           )
+          )
+          (i32.const 24)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 12)
+        )
+        (i32.or
+         (i32.shr_u
+          (get_local $3)
+          (i32.const 8)
+         )
+         (i32.shl
+          (tee_local $5
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 15)
+            )
+           )
+          )
+          (i32.const 24)
+         )
+        )
+       )
+       (set_local $1
+        (i32.add
+         (get_local $1)
+         (i32.const 16)
+        )
+       )
+       (set_local $0
+        (i32.add
+         (get_local $0)
+         (i32.const 16)
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 16)
+        )
+       )
+       (br $continue|5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 16)
+   )
+   (block
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (tee_local $3
+       (get_local $1)
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $1
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $1)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $3)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 8)
+   )
+   (block
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (tee_local $3
+       (get_local $1)
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $1
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $1)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $3)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 4)
+   )
+   (block
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (tee_local $3
+       (get_local $1)
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $1
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $1)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $3)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 2)
+   )
+   (block
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (get_local $1)
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 1)
+   )
+   (block
+    (set_local $3
+     (get_local $1)
+    )
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (get_local $1)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/memory/memmove (; 12 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return)
+  )
+  (if
+   (i32.eqz
+    (tee_local $3
+     (i32.le_u
+      (i32.add
+       (get_local $1)
+       (get_local $2)
+      )
+      (get_local $0)
+     )
+    )
+   )
+   (set_local $3
+    (i32.le_u
+     (i32.add
+      (get_local $0)
+      (get_local $2)
+     )
+     (get_local $1)
+    )
+   )
+  )
+  (if
+   (get_local $3)
+   (block
+    (call $~lib/internal/memory/memcpy
+     (get_local $0)
+     (get_local $1)
+     (get_local $2)
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.lt_u
+    (get_local $0)
+    (get_local $1)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (loop $continue|0
+       (if
+        (i32.and
+         (get_local $0)
+         (i32.const 7)
+        )
+        (block
+         (if
+          (i32.eqz
+           (get_local $2)
+          )
+          (return)
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (tee_local $3
+            (tee_local $4
+             (get_local $0)
+            )
+           )
+           (i32.const 1)
+          )
+         )
+         (set_local $1
+          (i32.add
+           (tee_local $3
+            (get_local $1)
+           )
+           (i32.const 1)
+          )
+         )
+         (i32.store8
+          (get_local $4)
+          (i32.load8_u
+           (get_local $3)
+          )
+         )
+         (br $continue|0)
+        )
+       )
+      )
+      (loop $continue|1
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 8)
+        )
+        (block
+         (i64.store
+          (get_local $0)
+          (i64.load
+           (get_local $1)
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 8)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (get_local $0)
+           (i32.const 8)
+          )
+         )
+         (set_local $1
+          (i32.add
+           (get_local $1)
+           (i32.const 8)
+          )
+         )
+         (br $continue|1)
+        )
+       )
+      )
+     )
+    )
+    (loop $continue|2
+     (if
+      (get_local $2)
+      (block
+       (set_local $0
+        (i32.add
+         (tee_local $3
+          (tee_local $4
+           (get_local $0)
+          )
+         )
+         (i32.const 1)
+        )
+       )
+       (set_local $1
+        (i32.add
+         (tee_local $3
+          (get_local $1)
+         )
+         (i32.const 1)
+        )
+       )
+       (i32.store8
+        (get_local $4)
+        (i32.load8_u
+         (get_local $3)
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+       (br $continue|2)
+      )
+     )
+    )
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (loop $continue|3
+       (if
+        (i32.and
+         (i32.add
+          (get_local $0)
+          (get_local $2)
+         )
+         (i32.const 7)
+        )
+        (block
+         (if
+          (i32.eqz
+           (get_local $2)
+          )
+          (return)
+         )
+         (i32.store8
+          (i32.add
+           (get_local $0)
+           (tee_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 1)
+            )
+           )
+          )
+          (i32.load8_u
+           (i32.add
+            (get_local $1)
+            (get_local $2)
+           )
+          )
+         )
+         (br $continue|3)
+        )
+       )
+      )
+      (loop $continue|4
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 8)
+        )
+        (block
+         (i64.store
+          (i32.add
+           (get_local $0)
+           (tee_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 8)
+            )
+           )
+          )
+          (i64.load
+           (i32.add
+            (get_local $1)
+            (get_local $2)
+           )
+          )
+         )
+         (br $continue|4)
+        )
+       )
+      )
+     )
+    )
+    (loop $continue|5
+     (if
+      (get_local $2)
+      (block
+       (i32.store8
+        (i32.add
+         (get_local $0)
+         (tee_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+        )
+        (i32.load8_u
+         (i32.add
+          (get_local $1)
+          (get_local $2)
+         )
+        )
+       )
+       (br $continue|5)
+      )
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/array/Array<i32>#concat (; 13 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (call $~lib/array/Array<i32>#constructor
+    (i32.add
+     (tee_local $2
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (tee_local $4
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (call $~lib/internal/memory/memmove
+    (i32.add
+     (i32.load
+      (get_local $3)
+     )
+     (i32.const 8)
+    )
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (i32.const 8)
+    )
+    (i32.shl
+     (get_local $2)
+     (i32.const 2)
+    )
+   )
+  )
+  (if
+   (get_local $4)
+   (call $~lib/internal/memory/memmove
+    (i32.add
+     (i32.add
+      (i32.load
+       (get_local $3)
+      )
+      (i32.const 8)
+     )
+     (i32.shl
+      (get_local $2)
+      (i32.const 2)
+     )
+    )
+    (i32.add
+     (i32.load
+      (get_local $1)
+     )
+     (i32.const 8)
+    )
+    (i32.shl
+     (get_local $4)
+     (i32.const 2)
+    )
+   )
+  )
+  (get_local $3)
+ )
+ (func $spread/add (; 14 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (i32.const 3)
+ )
+ (func $~lib/internal/arraybuffer/reallocateUnsafe (; 15 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.gt_s
+    (get_local $1)
+    (tee_local $2
+     (i32.load
+      (get_local $0)
+     )
+    )
+   )
+   (block
+    (if
+     (i32.gt_s
+      (get_local $1)
+      (i32.const 1073741816)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 296)
+       (i32.const 37)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.le_s
+      (get_local $1)
+      (i32.sub
+       (call $~lib/internal/arraybuffer/computeSize
+        (get_local $2)
+       )
+       (i32.const 8)
+      )
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (get_local $1)
+      )
+      (call $~lib/internal/memory/memset
+       (i32.add
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (get_local $2)
+       )
+       (i32.sub
+        (get_local $1)
+        (get_local $2)
+       )
+      )
+     )
+     (block
+      (call $~lib/internal/memory/memmove
+       (i32.add
+        (tee_local $3
+         (call $~lib/internal/arraybuffer/allocateUnsafe
+          (get_local $1)
+         )
+        )
+        (i32.const 8)
+       )
+       (i32.add
+        (get_local $0)
+        (i32.const 8)
+       )
+       (get_local $2)
+      )
+      (call $~lib/internal/memory/memset
+       (i32.add
+        (i32.add
+         (get_local $3)
+         (i32.const 8)
+        )
+        (get_local $2)
+       )
+       (i32.sub
+        (get_local $1)
+        (get_local $2)
+       )
+      )
+      (return
+       (get_local $3)
+      )
+     )
+    )
+   )
+   (if
+    (i32.lt_s
+     (get_local $1)
+     (get_local $2)
+    )
+    (block
+     (if
+      (i32.lt_s
+       (get_local $1)
+       (i32.const 0)
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 296)
+        (i32.const 61)
+        (i32.const 4)
+       )
+       (unreachable)
+      )
+     )
+     (i32.store
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/array/Array<i32>#__set (; 16 ;) (; has Stack IR ;) (type $FUNCSIG$vi) (param $0 i32)
+  (local $1 i32)
+  (if
+   (i32.ge_u
+    (i32.const 0)
+    (i32.shr_u
+     (i32.load
+      (tee_local $1
+       (i32.load
+        (get_local $0)
+       )
+      )
+     )
+     (i32.const 2)
+    )
+   )
+   (block
+    (i32.store
+     (get_local $0)
+     (tee_local $1
+      (call $~lib/internal/arraybuffer/reallocateUnsafe
+       (get_local $1)
+       (i32.const 4)
+      )
+     )
+    )
+    (i32.store offset=4
+     (get_local $0)
+     (i32.const 1)
+    )
+   )
+  )
+  (i32.store offset=8
+   (get_local $1)
+   (i32.const 42)
+  )
+ )
+ (func $spread/sum|trampoline (; 17 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (block $1of1
+   (block $0of1
+    (block $outOfRange
+     (br_table $0of1 $1of1 $outOfRange
+      (get_global $~argc)
+     )
+    )
+    (unreachable)
+   )
+   (set_local $0
+    (i32.const 536)
+   )
+  )
+  (call $spread/sum
+   (get_local $0)
+  )
+ )
+ (func $spread/Sum#add (; 18 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (set_local $3
+    (i32.load offset=4
+     (get_local $1)
+    )
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (get_local $3)
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (i32.add
+      (i32.load
+       (get_local $0)
+      )
+      (call $~lib/array/Array<i32>#__get
+       (get_local $1)
+       (get_local $2)
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $0)
+ )
+ (func $start (; 19 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (set_global $~lib/allocator/arena/startOffset
+   (i32.const 632)
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_global $~lib/allocator/arena/startOffset)
+  )
+  (if
+   (call $spread/sum
+    (i32.const 16)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 9)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $spread/sum
+     (i32.const 64)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 10)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $spread/sum
+     (i32.const 104)
+    )
+    (i32.const 6)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 11)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $spread/count
+     (i32.const 10)
+     (i32.const 120)
+    )
+    (i32.const 10)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 17)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $spread/count
+     (i32.const 10)
+     (i32.const 144)
+    )
+    (i32.const 12)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 18)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $~argc
+   (i32.const 0)
+  )
+  (if
+   (i32.ne
+    (call $spread/optional|trampoline)
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 24)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $spread/count
+     (i32.const 2)
+     (i32.const 176)
+    )
+    (i32.const 2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 25)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $spread/count
+     (i32.const 2)
+     (i32.const 200)
+    )
+    (i32.const 4)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 26)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $spread/sum
+     (call $~lib/array/Array<i32>#concat
+      (i32.const 256)
+      (get_global $spread/numbers)
+     )
+    )
+    (i32.const 6)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 30)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $spread/sum
+     (call $~lib/array/Array<i32>#concat
+      (call $~lib/array/Array<i32>#concat
+       (i32.const 376)
+       (get_global $spread/numbers)
+      )
+      (i32.const 400)
+     )
+    )
+    (i32.const 10)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 31)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $spread/count
+     (i32.const 10)
+     (call $~lib/array/Array<i32>#concat
+      (i32.const 416)
+      (get_global $spread/numbers)
+     )
+    )
+    (i32.const 13)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 32)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $spread/count
+     (i32.const 10)
+     (i32.const 440)
+    )
+    (i32.const 12)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 33)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $spread/add)
+    (i32.const 3)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 39)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $spread/add)
+    (i32.const 3)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 40)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $spread/spread
+   (call $~lib/array/Array<i32>#concat
+    (call $~lib/array/Array<i32>#concat
+     (call $~lib/array/Array<i32>#concat
+      (i32.const 464)
+      (get_global $spread/numbers)
+     )
+     (i32.const 504)
+    )
+    (get_global $spread/numbers)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_global $spread/spread)
+    )
+    (i32.const 10)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 43)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (call $~lib/array/Array<i32>#__get
+    (get_global $spread/spread)
+    (i32.const 0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 44)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $spread/spread)
+     (i32.const 1)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 45)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $spread/spread)
+     (i32.const 3)
+    )
+    (i32.const 3)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 46)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $spread/spread)
+     (i32.const 4)
+    )
+    (i32.const 4)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 47)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $spread/spread)
+     (i32.const 6)
+    )
+    (i32.const 6)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 48)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $spread/spread)
+     (i32.const 9)
+    )
+    (i32.const 3)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 49)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $spread/copy
+   (call $~lib/array/Array<i32>#concat
+    (i32.const 520)
+    (get_global $spread/numbers)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_global $spread/copy)
+    )
+    (i32.const 3)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 52)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/array/Array<i32>#__set
+   (get_global $spread/copy)
+  )
+  (if
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $spread/numbers)
+     (i32.const 0)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 54)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $~argc
+   (i32.const 1)
+  )
+  (set_global $~env
+   (get_global $spread/variadic)
+  )
+  (if
+   (i32.ne
+    (call_indirect (type $ii)
+     (i32.const 568)
+     (i32.load
+      (get_global $~env)
+     )
+    )
+    (i32.const 3)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 57)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $~argc
+   (i32.const 1)
+  )
+  (set_local $0
+   (call $~lib/array/Array<i32>#concat
+    (call $~lib/array/Array<i32>#concat
+     (i32.const 584)
+     (get_global $spread/numbers)
+    )
+    (get_global $spread/numbers)
+   )
+  )
+  (set_global $~env
+   (get_global $spread/variadic)
+  )
+  (if
+   (i32.ne
+    (call_indirect (type $ii)
+     (get_local $0)
+     (i32.load
+      (get_global $~env)
+     )
+    )
+    (i32.const 12)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 58)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $0
+    (call $~lib/memory/memory.allocate
+     (i32.const 4)
+    )
+   )
+   (i32.const 0)
+  )
+  (set_global $spread/total
+   (get_local $0)
+  )
+  (if
+   (i32.ne
+    (i32.load
+     (call $spread/Sum#add
+      (call $spread/Sum#add
+       (get_global $spread/total)
+       (i32.const 608)
+      )
+      (call $~lib/array/Array<i32>#concat
+       (i32.const 624)
+       (get_global $spread/numbers)
+      )
+     )
+    )
+    (i32.const 9)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 69)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+ )
+)
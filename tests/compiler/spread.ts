@@ -0,0 +1,69 @@
+import "allocator/arena";
+
+function sum(...values: i32[]): i32 {
+  var total = 0;
+  for (let i = 0, k = values.length; i < k; ++i) total += values[i];
+  return total;
+}
+
+assert(sum() == 0);
+assert(sum(1) == 1);
+assert(sum(1, 2, 3) == 6);
+
+function count(offset: i32, ...values: i32[]): i32 {
+  return offset + values.length;
+}
+
+assert(count(10) == 10);
+assert(count(10, 1, 2) == 12);
+
+function optional(a: i32 = 1, ...values: i32[]): i32 {
+  return a + values.length;
+}
+
+assert(optional() == 1);
+assert(optional(2) == 2);
+assert(optional(2, 3, 4) == 4);
+
+var numbers: i32[] = [1, 2, 3];
+
+assert(sum(...numbers) == 6);
+assert(sum(0, ...numbers, 4) == 10);
+assert(count(10, ...numbers) == 13);
+assert(count(...[10, 1, 2]) == 12);
+
+function add(a: i32, b: i32): i32 {
+  return a + b;
+}
+
+assert(add(...[1, 2]) == 3);
+assert(add(1, ...[2]) == 3);
+
+var spread: i32[] = [0, ...numbers, 4, ...[5, 6], ...numbers];
+assert(spread.length == 10);
+assert(spread[0] == 0);
+assert(spread[1] == 1);
+assert(spread[3] == 3);
+assert(spread[4] == 4);
+assert(spread[6] == 6);
+assert(spread[9] == 3);
+
+var copy: i32[] = [...numbers];
+assert(copy.length == 3);
+copy[0] = 42;
+assert(numbers[0] == 1);
+
+var variadic: (...values: i32[]) => i32 = sum;
+assert(variadic(1, 2) == 3);
+assert(variadic(...numbers, ...numbers) == 12);
+
+class Sum {
+  total: i32 = 0;
+  add(...values: i32[]): Sum {
+    for (let i = 0, k = values.length; i < k; ++i) this.total += values[i];
+    return this;
+  }
+}
+
+var total = new Sum();
+assert(total.add(1, 2).add(...numbers).total == 9);
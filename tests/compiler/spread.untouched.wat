@@ -0,0 +1,3970 @@
+(module
+ (type $ii (func (param i32) (result i32)))
+ (type $iii (func (param i32 i32) (result i32)))
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $iiiv (func (param i32 i32 i32)))
+ (type $v (func))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/internal/allocator/AL_BITS i32 (i32.const 3))
+ (global $~lib/internal/allocator/AL_SIZE i32 (i32.const 8))
+ (global $~lib/internal/allocator/AL_MASK i32 (i32.const 7))
+ (global $~lib/internal/allocator/MAX_SIZE_32 i32 (i32.const 1073741824))
+ (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
+ (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $~lib/internal/arraybuffer/HEADER_SIZE i32 (i32.const 8))
+ (global $~argc (mut i32) (i32.const 0))
+ (global $spread/numbers (mut i32) (i32.const 240))
+ (global $~lib/internal/arraybuffer/MAX_BLENGTH i32 (i32.const 1073741816))
+ (global $spread/spread (mut i32) (i32.const 0))
+ (global $spread/copy (mut i32) (i32.const 0))
+ (global $spread/variadic (mut i32) (i32.const 544))
+ (global $~env (mut i32) (i32.const 0))
+ (global $spread/total (mut i32) (i32.const 0))
+ (global $HEAP_BASE i32 (i32.const 632))
+ (table 1 1 anyfunc)
+ (elem (i32.const 0) $spread/sum|trampoline)
+ (memory $0 1)
+ (data (i32.const 8) "\00\00\00\00\00\00\00\00")
+ (data (i32.const 16) "\08\00\00\00\00\00\00\00")
+ (data (i32.const 24) "\t\00\00\00s\00p\00r\00e\00a\00d\00.\00t\00s\00")
+ (data (i32.const 48) "\04\00\00\00\00\00\00\00\01\00\00\00\00\00\00\00")
+ (data (i32.const 64) "0\00\00\00\01\00\00\00")
+ (data (i32.const 72) "\0c\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 104) "H\00\00\00\03\00\00\00")
+ (data (i32.const 112) "\00\00\00\00\00\00\00\00")
+ (data (i32.const 120) "p\00\00\00\00\00\00\00")
+ (data (i32.const 128) "\08\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00")
+ (data (i32.const 144) "\80\00\00\00\02\00\00\00")
+ (data (i32.const 152) "\00\00\00\00\00\00\00\00")
+ (data (i32.const 160) "\98\00\00\00\00\00\00\00")
+ (data (i32.const 168) "\00\00\00\00\00\00\00\00")
+ (data (i32.const 176) "\a8\00\00\00\00\00\00\00")
+ (data (i32.const 184) "\08\00\00\00\00\00\00\00\03\00\00\00\04\00\00\00")
+ (data (i32.const 200) "\b8\00\00\00\02\00\00\00")
+ (data (i32.const 208) "\0c\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 240) "\d0\00\00\00\03\00\00\00")
+ (data (i32.const 248) "\00\00\00\00\00\00\00\00")
+ (data (i32.const 256) "\f8\00\00\00\00\00\00\00")
+ (data (i32.const 264) "\0d\00\00\00~\00l\00i\00b\00/\00a\00r\00r\00a\00y\00.\00t\00s\00")
+ (data (i32.const 296) "\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s\00")
+ (data (i32.const 360) "\04\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 376) "h\01\00\00\01\00\00\00")
+ (data (i32.const 384) "\04\00\00\00\00\00\00\00\04\00\00\00\00\00\00\00")
+ (data (i32.const 400) "\80\01\00\00\01\00\00\00")
+ (data (i32.const 408) "\00\00\00\00\00\00\00\00")
+ (data (i32.const 416) "\98\01\00\00\00\00\00\00")
+ (data (i32.const 424) "\08\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00")
+ (data (i32.const 440) "\a8\01\00\00\02\00\00\00")
+ (data (i32.const 448) "\04\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 464) "\c0\01\00\00\01\00\00\00")
+ (data (i32.const 472) "\0c\00\00\00\00\00\00\00\04\00\00\00\05\00\00\00\06\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 504) "\d8\01\00\00\03\00\00\00")
+ (data (i32.const 512) "\00\00\00\00\00\00\00\00")
+ (data (i32.const 520) "\00\02\00\00\00\00\00\00")
+ (data (i32.const 528) "\00\00\00\00\00\00\00\00")
+ (data (i32.const 536) "\10\02\00\00\00\00\00\00")
+ (data (i32.const 544) "\00\00\00\00\00\00\00\00")
+ (data (i32.const 552) "\08\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00")
+ (data (i32.const 568) "(\02\00\00\02\00\00\00")
+ (data (i32.const 576) "\00\00\00\00\00\00\00\00")
+ (data (i32.const 584) "@\02\00\00\00\00\00\00")
+ (data (i32.const 592) "\08\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00")
+ (data (i32.const 608) "P\02\00\00\02\00\00\00")
+ (data (i32.const 616) "\00\00\00\00\00\00\00\00")
+ (data (i32.const 624) "h\02\00\00\00\00\00\00")
+ (export "memory" (memory $0))
+ (export "table" (table $0))
+ (start $start)
+ (func $~lib/array/Array<i32>#__get (; 1 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if (result i32)
+   (i32.lt_u
+    (get_local $1)
+    (i32.shr_u
+     (i32.load
+      (get_local $2)
+     )
+     (i32.const 2)
+    )
+   )
+   (block $~lib/internal/arraybuffer/loadUnsafe<i32,i32>|inlined.0 (result i32)
+    (i32.load offset=8
+     (i32.add
+      (get_local $2)
+      (i32.shl
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+    )
+   )
+   (unreachable)
+  )
+ )
+ (func $spread/sum (; 2 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $1
+   (i32.const 0)
+  )
+  (block $break|0
+   (block
+    (set_local $2
+     (i32.const 0)
+    )
+    (set_local $3
+     (block $~lib/array/Array<i32>#get:length|inlined.0 (result i32)
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+    )
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $2)
+       (get_local $3)
+      )
+     )
+    )
+    (set_local $1
+     (i32.add
+      (get_local $1)
+      (call $~lib/array/Array<i32>#__get
+       (get_local $0)
+       (get_local $2)
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $1)
+ )
+ (func $spread/count (; 3 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.add
+   (get_local $0)
+   (block $~lib/array/Array<i32>#get:length|inlined.1 (result i32)
+    (i32.load offset=4
+     (get_local $1)
+    )
+   )
+  )
+ )
+ (func $spread/optional (; 4 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.add
+   (get_local $0)
+   (block $~lib/array/Array<i32>#get:length|inlined.2 (result i32)
+    (i32.load offset=4
+     (get_local $1)
+    )
+   )
+  )
+ )
+ (func $spread/optional|trampoline (; 5 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (block $2of2
+   (block $1of2
+    (block $0of2
+     (block $outOfRange
+      (br_table $0of2 $1of2 $2of2 $outOfRange
+       (get_global $~argc)
+      )
+     )
+     (unreachable)
+    )
+    (set_local $0
+     (i32.const 1)
+    )
+   )
+   (set_local $1
+    (i32.const 160)
+   )
+  )
+  (call $spread/optional
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $~lib/internal/arraybuffer/computeSize (; 6 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.shl
+   (i32.const 1)
+   (i32.sub
+    (i32.const 32)
+    (i32.clz
+     (i32.sub
+      (i32.add
+       (get_local $0)
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+      (i32.const 1)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/allocator/arena/__memory_allocate (; 7 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (get_global $~lib/internal/allocator/MAX_SIZE_32)
+   )
+   (unreachable)
+  )
+  (set_local $1
+   (get_global $~lib/allocator/arena/offset)
+  )
+  (set_local $4
+   (i32.and
+    (i32.add
+     (i32.add
+      (get_local $1)
+      (select
+       (tee_local $2
+        (get_local $0)
+       )
+       (tee_local $3
+        (i32.const 1)
+       )
+       (i32.gt_u
+        (get_local $2)
+        (get_local $3)
+       )
+      )
+     )
+     (get_global $~lib/internal/allocator/AL_MASK)
+    )
+    (i32.xor
+     (get_global $~lib/internal/allocator/AL_MASK)
+     (i32.const -1)
+    )
+   )
+  )
+  (set_local $5
+   (current_memory)
+  )
+  (if
+   (i32.gt_u
+    (get_local $4)
+    (i32.shl
+     (get_local $5)
+     (i32.const 16)
+    )
+   )
+   (block
+    (set_local $2
+     (i32.shr_u
+      (i32.and
+       (i32.add
+        (i32.sub
+         (get_local $4)
+         (get_local $1)
+        )
+        (i32.const 65535)
+       )
+       (i32.xor
+        (i32.const 65535)
+        (i32.const -1)
+       )
+      )
+      (i32.const 16)
+     )
+    )
+    (set_local $3
+     (select
+      (tee_local $3
+       (get_local $5)
+      )
+      (tee_local $6
+       (get_local $2)
+      )
+      (i32.gt_s
+       (get_local $3)
+       (get_local $6)
+      )
+     )
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $3)
+      )
+      (i32.const 0)
+     )
+     (if
+      (i32.lt_s
+       (grow_memory
+        (get_local $2)
+       )
+       (i32.const 0)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_local $4)
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/arraybuffer/allocateUnsafe (; 8 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (i32.le_u
+     (get_local $0)
+     (get_global $~lib/internal/arraybuffer/MAX_BLENGTH)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 296)
+     (i32.const 23)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $1
+   (block $~lib/memory/memory.allocate|inlined.0 (result i32)
+    (set_local $2
+     (call $~lib/internal/arraybuffer/computeSize
+      (get_local $0)
+     )
+    )
+    (br $~lib/memory/memory.allocate|inlined.0
+     (call $~lib/allocator/arena/__memory_allocate
+      (get_local $2)
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/memory/memory.allocate (; 9 ;) (type $ii) (param $0 i32) (result i32)
+  (return
+   (call $~lib/allocator/arena/__memory_allocate
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/internal/memory/memset (; 10 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i64)
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return)
+  )
+  (i32.store8
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 1)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 2)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 1)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 2)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 2)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 3)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 6)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 3)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 4)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (set_local $3
+   (i32.and
+    (i32.sub
+     (i32.const 0)
+     (get_local $0)
+    )
+    (i32.const 3)
+   )
+  )
+  (set_local $0
+   (i32.add
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.sub
+    (get_local $2)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.and
+    (get_local $2)
+    (i32.const -4)
+   )
+  )
+  (set_local $4
+   (i32.mul
+    (i32.div_u
+     (i32.const -1)
+     (i32.const 255)
+    )
+    (i32.and
+     (get_local $1)
+     (i32.const 255)
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 4)
+   )
+   (get_local $4)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 4)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 8)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 12)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 8)
+   )
+   (get_local $4)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 24)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 12)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 16)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 20)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 24)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 28)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 24)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 20)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 16)
+   )
+   (get_local $4)
+  )
+  (set_local $3
+   (i32.add
+    (i32.const 24)
+    (i32.and
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (set_local $0
+   (i32.add
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.sub
+    (get_local $2)
+    (get_local $3)
+   )
+  )
+  (set_local $5
+   (i64.or
+    (i64.extend_u/i32
+     (get_local $4)
+    )
+    (i64.shl
+     (i64.extend_u/i32
+      (get_local $4)
+     )
+     (i64.const 32)
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.ge_u
+      (get_local $2)
+      (i32.const 32)
+     )
+     (block
+      (block
+       (i64.store
+        (get_local $0)
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 16)
+        )
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 24)
+        )
+        (get_local $5)
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 32)
+        )
+       )
+       (set_local $0
+        (i32.add
+         (get_local $0)
+         (i32.const 32)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/array/Array<i32>#constructor (; 11 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (i32.gt_u
+    (get_local $1)
+    (i32.const 268435454)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 264)
+     (i32.const 23)
+     (i32.const 39)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $2
+   (i32.shl
+    (get_local $1)
+    (i32.const 2)
+   )
+  )
+  (set_local $3
+   (call $~lib/internal/arraybuffer/allocateUnsafe
+    (get_local $2)
+   )
+  )
+  (i32.store
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $4
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.store
+        (get_local $4)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $4)
+        (i32.const 0)
+       )
+       (get_local $4)
+      )
+     )
+    )
+   )
+   (get_local $3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (block $~lib/memory/memory.fill|inlined.0
+   (set_local $4
+    (i32.add
+     (get_local $3)
+     (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+    )
+   )
+   (set_local $5
+    (i32.const 0)
+   )
+   (call $~lib/internal/memory/memset
+    (get_local $4)
+    (get_local $5)
+    (get_local $2)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/memory/memcpy (; 12 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (block $break|0
+   (loop $continue|0
+    (if
+     (if (result i32)
+      (get_local $2)
+      (i32.and
+       (get_local $1)
+       (i32.const 3)
+      )
+      (get_local $2)
+     )
+     (block
+      (block
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (i32.and
+     (get_local $0)
+     (i32.const 3)
+    )
+    (i32.const 0)
+   )
+   (block
+    (block $break|1
+     (loop $continue|1
+      (if
+       (i32.ge_u
+        (get_local $2)
+        (i32.const 16)
+       )
+       (block
+        (block
+         (i32.store
+          (get_local $0)
+          (i32.load
+           (get_local $1)
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 4)
+          )
+          (i32.load
+           (i32.add
+            (get_local $1)
+            (i32.const 4)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 8)
+          )
+          (i32.load
+           (i32.add
+            (get_local $1)
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 12)
+          )
+          (i32.load
+           (i32.add
+            (get_local $1)
+            (i32.const 12)
+           )
+          )
+         )
+         (set_local $1
+          (i32.add
+           (get_local $1)
+           (i32.const 16)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (get_local $0)
+           (i32.const 16)
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 16)
+          )
+         )
+        )
+        (br $continue|1)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 8)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+       (i32.load
+        (i32.add
+         (get_local $1)
+         (i32.const 4)
+        )
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 8)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 8)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 4)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 4)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 2)
+     )
+     (block
+      (i32.store16
+       (get_local $0)
+       (i32.load16_u
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 2)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 1)
+     )
+     (i32.store8
+      (block (result i32)
+       (set_local $5
+        (get_local $0)
+       )
+       (set_local $0
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+      (i32.load8_u
+       (block (result i32)
+        (set_local $5
+         (get_local $1)
+        )
+        (set_local $1
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+      )
+     )
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $2)
+    (i32.const 32)
+   )
+   (block $break|2
+    (block $case2|2
+     (block $case1|2
+      (block $case0|2
+       (set_local $5
+        (i32.and
+         (get_local $0)
+         (i32.const 3)
+        )
+       )
+       (br_if $case0|2
+        (i32.eq
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (br_if $case1|2
+        (i32.eq
+         (get_local $5)
+         (i32.const 2)
+        )
+       )
+       (br_if $case2|2
+        (i32.eq
+         (get_local $5)
+         (i32.const 3)
+        )
+       )
+       (br $break|2)
+      )
+      (block
+       (set_local $3
+        (i32.load
+         (get_local $1)
+        )
+       )
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 3)
+        )
+       )
+       (block $break|3
+        (loop $continue|3
+         (if
+          (i32.ge_u
+           (get_local $2)
+           (i32.const 17)
+          )
+          (block
+           (block
+            (set_local $4
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 1)
+              )
+             )
+            )
+            (i32.store
+             (get_local $0)
+             (i32.or
+              (i32.shr_u
+               (get_local $3)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $4)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 5)
+              )
+             )
+            )
+            (i32.store
+             (i32.add
+              (get_local $0)
+              (i32.const 4)
+             )
+             (i32.or
+              (i32.shr_u
+               (get_local $4)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $3)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $4
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 9)
+              )
+             )
+            )
+            (i32.store
+             (i32.add
+              (get_local $0)
+              (i32.const 8)
+             )
+             (i32.or
+              (i32.shr_u
+               (get_local $3)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $4)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 13)
+              )
+             )
+            )
+            (i32.store
+             (i32.add
+              (get_local $0)
+              (i32.const 12)
+             )
+             (i32.or
+              (i32.shr_u
+               (get_local $4)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $3)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $1
+             (i32.add
+              (get_local $1)
+              (i32.const 16)
+             )
+            )
+            (set_local $0
+             (i32.add
+              (get_local $0)
+              (i32.const 16)
+             )
+            )
+            (set_local $2
+             (i32.sub
+              (get_local $2)
+              (i32.const 16)
+             )
+            )
+           )
+           (br $continue|3)
+          )
+         )
+        )
+       )
+       (br $break|2)
+      )
+     )
+     (block
+      (set_local $3
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store8
+       (block (result i32)
+        (set_local $5
+         (get_local $0)
+        )
+        (set_local $0
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+       (i32.load8_u
+        (block (result i32)
+         (set_local $5
+          (get_local $1)
+         )
+         (set_local $1
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+       )
+      )
+      (i32.store8
+       (block (result i32)
+        (set_local $5
+         (get_local $0)
+        )
+        (set_local $0
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+       (i32.load8_u
+        (block (result i32)
+         (set_local $5
+          (get_local $1)
+         )
+         (set_local $1
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+       )
+      )
+      (set_local $2
+       (i32.sub
+        (get_local $2)
+        (i32.const 2)
+       )
+      )
+      (block $break|4
+       (loop $continue|4
+        (if
+         (i32.ge_u
+          (get_local $2)
+          (i32.const 18)
+         )
+         (block
+          (block
+           (set_local $4
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 2)
+             )
+            )
+           )
+           (i32.store
+            (get_local $0)
+            (i32.or
+             (i32.shr_u
+              (get_local $3)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $4)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 6)
+             )
+            )
+           )
+           (i32.store
+            (i32.add
+             (get_local $0)
+             (i32.const 4)
+            )
+            (i32.or
+             (i32.shr_u
+              (get_local $4)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $3)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $4
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 10)
+             )
+            )
+           )
+           (i32.store
+            (i32.add
+             (get_local $0)
+             (i32.const 8)
+            )
+            (i32.or
+             (i32.shr_u
+              (get_local $3)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $4)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 14)
+             )
+            )
+           )
+           (i32.store
+            (i32.add
+             (get_local $0)
+             (i32.const 12)
+            )
+            (i32.or
+             (i32.shr_u
+              (get_local $4)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $3)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $1
+            (i32.add
+             (get_local $1)
+             (i32.const 16)
+            )
+           )
+           (set_local $0
+            (i32.add
+             (get_local $0)
+             (i32.const 16)
+            )
+           )
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 16)
+            )
+           )
+          )
+          (br $continue|4)
+         )
+        )
+       )
+      )
+      (br $break|2)
+     )
+    )
+    (block
+     (set_local $3
+      (i32.load
+       (get_local $1)
+      )
+     )
+     (i32.store8
+      (block (result i32)
+       (set_local $5
+        (get_local $0)
+       )
+       (set_local $0
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+      (i32.load8_u
+       (block (result i32)
+        (set_local $5
+         (get_local $1)
+        )
+        (set_local $1
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+      )
+     )
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (block $break|5
+      (loop $continue|5
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 19)
+        )
+        (block
+         (block
+          (set_local $4
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 3)
+            )
+           )
+          )
+          (i32.store
+           (get_local $0)
+           (i32.or
+            (i32.shr_u
+             (get_local $3)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $4)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 7)
+            )
+           )
+          )
+          (i32.store
+           (i32.add
+            (get_local $0)
+            (i32.const 4)
+           )
+           (i32.or
+            (i32.shr_u
+             (get_local $4)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $3)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $4
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 11)
+            )
+           )
+          )
+          (i32.store
+           (i32.add
+            (get_local $0)
+            (i32.const 8)
+           )
+           (i32.or
+            (i32.shr_u
+             (get_local $3)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $4)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 15)
+            )
+           )
+          )
+          (i32.store
+           (i32.add
+            (get_local $0)
+            (i32.const 12)
+           )
+           (i32.or
+            (i32.shr_u
+             (get_local $4)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $3)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $1
+           (i32.add
+            (get_local $1)
+            (i32.const 16)
+           )
+          )
+          (set_local $0
+           (i32.add
+            (get_local $0)
+            (i32.const 16)
+           )
+          )
+          (set_local $2
+           (i32.sub
+            (get_local $2)
+            (i32.const 16)
+           )
+          )
+         )
+         (br $continue|5)
+        )
+       )
+      )
+     )
+     (br $break|2)
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 16)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 8)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 4)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 2)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 1)
+   )
+   (i32.store8
+    (block (result i32)
+     (set_local $5
+      (get_local $0)
+     )
+     (set_local $0
+      (i32.add
+       (get_local $5)
+       (i32.const 1)
+      )
+     )
+     (get_local $5)
+    )
+    (i32.load8_u
+     (block (result i32)
+      (set_local $5
+       (get_local $1)
+      )
+      (set_local $1
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/memory/memmove (; 13 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return)
+  )
+  (if
+   (if (result i32)
+    (tee_local $3
+     (i32.le_u
+      (i32.add
+       (get_local $1)
+       (get_local $2)
+      )
+      (get_local $0)
+     )
+    )
+    (get_local $3)
+    (i32.le_u
+     (i32.add
+      (get_local $0)
+      (get_local $2)
+     )
+     (get_local $1)
+    )
+   )
+   (block
+    (call $~lib/internal/memory/memcpy
+     (get_local $0)
+     (get_local $1)
+     (get_local $2)
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.lt_u
+    (get_local $0)
+    (get_local $1)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (block $break|0
+       (loop $continue|0
+        (if
+         (i32.and
+          (get_local $0)
+          (i32.const 7)
+         )
+         (block
+          (block
+           (if
+            (i32.eqz
+             (get_local $2)
+            )
+            (return)
+           )
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 1)
+            )
+           )
+           (i32.store8
+            (block (result i32)
+             (set_local $3
+              (get_local $0)
+             )
+             (set_local $0
+              (i32.add
+               (get_local $3)
+               (i32.const 1)
+              )
+             )
+             (get_local $3)
+            )
+            (i32.load8_u
+             (block (result i32)
+              (set_local $3
+               (get_local $1)
+              )
+              (set_local $1
+               (i32.add
+                (get_local $3)
+                (i32.const 1)
+               )
+              )
+              (get_local $3)
+             )
+            )
+           )
+          )
+          (br $continue|0)
+         )
+        )
+       )
+      )
+      (block $break|1
+       (loop $continue|1
+        (if
+         (i32.ge_u
+          (get_local $2)
+          (i32.const 8)
+         )
+         (block
+          (block
+           (i64.store
+            (get_local $0)
+            (i64.load
+             (get_local $1)
+            )
+           )
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 8)
+            )
+           )
+           (set_local $0
+            (i32.add
+             (get_local $0)
+             (i32.const 8)
+            )
+           )
+           (set_local $1
+            (i32.add
+             (get_local $1)
+             (i32.const 8)
+            )
+           )
+          )
+          (br $continue|1)
+         )
+        )
+       )
+      )
+     )
+    )
+    (block $break|2
+     (loop $continue|2
+      (if
+       (get_local $2)
+       (block
+        (block
+         (i32.store8
+          (block (result i32)
+           (set_local $3
+            (get_local $0)
+           )
+           (set_local $0
+            (i32.add
+             (get_local $3)
+             (i32.const 1)
+            )
+           )
+           (get_local $3)
+          )
+          (i32.load8_u
+           (block (result i32)
+            (set_local $3
+             (get_local $1)
+            )
+            (set_local $1
+             (i32.add
+              (get_local $3)
+              (i32.const 1)
+             )
+            )
+            (get_local $3)
+           )
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+        )
+        (br $continue|2)
+       )
+      )
+     )
+    )
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (block $break|3
+       (loop $continue|3
+        (if
+         (i32.and
+          (i32.add
+           (get_local $0)
+           (get_local $2)
+          )
+          (i32.const 7)
+         )
+         (block
+          (block
+           (if
+            (i32.eqz
+             (get_local $2)
+            )
+            (return)
+           )
+           (i32.store8
+            (i32.add
+             (get_local $0)
+             (tee_local $2
+              (i32.sub
+               (get_local $2)
+               (i32.const 1)
+              )
+             )
+            )
+            (i32.load8_u
+             (i32.add
+              (get_local $1)
+              (get_local $2)
+             )
+            )
+           )
+          )
+          (br $continue|3)
+         )
+        )
+       )
+      )
+      (block $break|4
+       (loop $continue|4
+        (if
+         (i32.ge_u
+          (get_local $2)
+          (i32.const 8)
+         )
+         (block
+          (block
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 8)
+            )
+           )
+           (i64.store
+            (i32.add
+             (get_local $0)
+             (get_local $2)
+            )
+            (i64.load
+             (i32.add
+              (get_local $1)
+              (get_local $2)
+             )
+            )
+           )
+          )
+          (br $continue|4)
+         )
+        )
+       )
+      )
+     )
+    )
+    (block $break|5
+     (loop $continue|5
+      (if
+       (get_local $2)
+       (block
+        (i32.store8
+         (i32.add
+          (get_local $0)
+          (tee_local $2
+           (i32.sub
+            (get_local $2)
+            (i32.const 1)
+           )
+          )
+         )
+         (i32.load8_u
+          (i32.add
+           (get_local $1)
+           (get_local $2)
+          )
+         )
+        )
+        (br $continue|5)
+       )
+      )
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/array/Array<i32>#concat (; 14 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=4
+    (get_local $1)
+   )
+  )
+  (set_local $4
+   (call $~lib/array/Array<i32>#constructor
+    (i32.const 0)
+    (i32.add
+     (get_local $2)
+     (get_local $3)
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (block $~lib/memory/memory.copy|inlined.0
+    (set_local $5
+     (i32.add
+      (i32.load
+       (get_local $4)
+      )
+      (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+     )
+    )
+    (set_local $6
+     (i32.add
+      (i32.load
+       (get_local $0)
+      )
+      (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+     )
+    )
+    (set_local $7
+     (i32.shl
+      (get_local $2)
+      (i32.const 2)
+     )
+    )
+    (call $~lib/internal/memory/memmove
+     (get_local $5)
+     (get_local $6)
+     (get_local $7)
+    )
+   )
+  )
+  (if
+   (get_local $3)
+   (block $~lib/memory/memory.copy|inlined.1
+    (set_local $7
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $4)
+       )
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+      (i32.shl
+       (get_local $2)
+       (i32.const 2)
+      )
+     )
+    )
+    (set_local $6
+     (i32.add
+      (i32.load
+       (get_local $1)
+      )
+      (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+     )
+    )
+    (set_local $5
+     (i32.shl
+      (get_local $3)
+      (i32.const 2)
+     )
+    )
+    (call $~lib/internal/memory/memmove
+     (get_local $7)
+     (get_local $6)
+     (get_local $5)
+    )
+   )
+  )
+  (get_local $4)
+ )
+ (func $spread/add (; 15 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.add
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $~lib/internal/arraybuffer/reallocateUnsafe (; 16 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.gt_s
+    (get_local $1)
+    (get_local $2)
+   )
+   (block
+    (if
+     (i32.eqz
+      (i32.le_s
+       (get_local $1)
+       (get_global $~lib/internal/arraybuffer/MAX_BLENGTH)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 296)
+       (i32.const 37)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.le_s
+      (get_local $1)
+      (i32.sub
+       (call $~lib/internal/arraybuffer/computeSize
+        (get_local $2)
+       )
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (get_local $1)
+      )
+      (block $~lib/memory/memory.fill|inlined.1
+       (set_local $3
+        (i32.add
+         (i32.add
+          (get_local $0)
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (get_local $2)
+        )
+       )
+       (set_local $4
+        (i32.const 0)
+       )
+       (set_local $5
+        (i32.sub
+         (get_local $1)
+         (get_local $2)
+        )
+       )
+       (call $~lib/internal/memory/memset
+        (get_local $3)
+        (get_local $4)
+        (get_local $5)
+       )
+      )
+     )
+     (block
+      (set_local $5
+       (call $~lib/internal/arraybuffer/allocateUnsafe
+        (get_local $1)
+       )
+      )
+      (block $~lib/memory/memory.copy|inlined.2
+       (set_local $4
+        (i32.add
+         (get_local $5)
+         (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+        )
+       )
+       (set_local $3
+        (i32.add
+         (get_local $0)
+         (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+        )
+       )
+       (call $~lib/internal/memory/memmove
+        (get_local $4)
+        (get_local $3)
+        (get_local $2)
+       )
+      )
+      (block $~lib/memory/memory.fill|inlined.2
+       (set_local $3
+        (i32.add
+         (i32.add
+          (get_local $5)
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (get_local $2)
+        )
+       )
+       (set_local $4
+        (i32.const 0)
+       )
+       (set_local $6
+        (i32.sub
+         (get_local $1)
+         (get_local $2)
+        )
+       )
+       (call $~lib/internal/memory/memset
+        (get_local $3)
+        (get_local $4)
+        (get_local $6)
+       )
+      )
+      (return
+       (get_local $5)
+      )
+     )
+    )
+   )
+   (if
+    (i32.lt_s
+     (get_local $1)
+     (get_local $2)
+    )
+    (block
+     (if
+      (i32.eqz
+       (i32.ge_s
+        (get_local $1)
+        (i32.const 0)
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 296)
+        (i32.const 61)
+        (i32.const 4)
+       )
+       (unreachable)
+      )
+     )
+     (i32.store
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/array/Array<i32>#__set (; 17 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.shr_u
+    (i32.load
+     (get_local $3)
+    )
+    (i32.const 2)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (get_local $4)
+   )
+   (block
+    (if
+     (i32.ge_u
+      (get_local $1)
+      (i32.const 268435454)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 264)
+       (i32.const 134)
+       (i32.const 41)
+      )
+      (unreachable)
+     )
+    )
+    (set_local $3
+     (call $~lib/internal/arraybuffer/reallocateUnsafe
+      (get_local $3)
+      (i32.shl
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+       (i32.const 2)
+      )
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (get_local $3)
+    )
+    (i32.store offset=4
+     (get_local $0)
+     (i32.add
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+   )
+  )
+  (block $~lib/internal/arraybuffer/storeUnsafe<i32,i32>|inlined.0
+   (i32.store offset=8
+    (i32.add
+     (get_local $3)
+     (i32.shl
+      (get_local $1)
+      (i32.const 2)
+     )
+    )
+    (get_local $2)
+   )
+  )
+ )
+ (func $spread/sum|trampoline (; 18 ;) (type $ii) (param $0 i32) (result i32)
+  (block $1of1
+   (block $0of1
+    (block $outOfRange
+     (br_table $0of1 $1of1 $outOfRange
+      (get_global $~argc)
+     )
+    )
+    (unreachable)
+   )
+   (set_local $0
+    (i32.const 536)
+   )
+  )
+  (call $spread/sum
+   (get_local $0)
+  )
+ )
+ (func $spread/Sum#add (; 19 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (block
+    (set_local $2
+     (i32.const 0)
+    )
+    (set_local $3
+     (block $~lib/array/Array<i32>#get:length|inlined.5 (result i32)
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+    )
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $2)
+       (get_local $3)
+      )
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (i32.add
+      (i32.load
+       (get_local $0)
+      )
+      (call $~lib/array/Array<i32>#__get
+       (get_local $1)
+       (get_local $2)
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $0)
+ )
+ (func $start (; 20 ;) (type $v)
+  (local $0 i32)
+  (set_global $~lib/allocator/arena/startOffset
+   (i32.and
+    (i32.add
+     (get_global $HEAP_BASE)
+     (get_global $~lib/internal/allocator/AL_MASK)
+    )
+    (i32.xor
+     (get_global $~lib/internal/allocator/AL_MASK)
+     (i32.const -1)
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_global $~lib/allocator/arena/startOffset)
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $spread/sum
+      (i32.const 16)
+     )
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 9)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $spread/sum
+      (i32.const 64)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 10)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $spread/sum
+      (i32.const 104)
+     )
+     (i32.const 6)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 11)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $spread/count
+      (i32.const 10)
+      (i32.const 120)
+     )
+     (i32.const 10)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 17)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $spread/count
+      (i32.const 10)
+      (i32.const 144)
+     )
+     (i32.const 12)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 18)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 0)
+      )
+      (call $spread/optional|trampoline
+       (i32.const 0)
+       (i32.const 0)
+      )
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 24)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $spread/optional
+      (i32.const 2)
+      (i32.const 176)
+     )
+     (i32.const 2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 25)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $spread/optional
+      (i32.const 2)
+      (i32.const 200)
+     )
+     (i32.const 4)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 26)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $spread/sum
+      (call $~lib/array/Array<i32>#concat
+       (i32.const 256)
+       (get_global $spread/numbers)
+      )
+     )
+     (i32.const 6)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 30)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $spread/sum
+      (call $~lib/array/Array<i32>#concat
+       (call $~lib/array/Array<i32>#concat
+        (i32.const 376)
+        (get_global $spread/numbers)
+       )
+       (i32.const 400)
+      )
+     )
+     (i32.const 10)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 31)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $spread/count
+      (i32.const 10)
+      (call $~lib/array/Array<i32>#concat
+       (i32.const 416)
+       (get_global $spread/numbers)
+      )
+     )
+     (i32.const 13)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 32)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $spread/count
+      (i32.const 10)
+      (i32.const 440)
+     )
+     (i32.const 12)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 33)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $spread/add
+      (i32.const 1)
+      (i32.const 2)
+     )
+     (i32.const 3)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 39)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $spread/add
+      (i32.const 1)
+      (i32.const 2)
+     )
+     (i32.const 3)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 40)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $spread/spread
+   (call $~lib/array/Array<i32>#concat
+    (call $~lib/array/Array<i32>#concat
+     (call $~lib/array/Array<i32>#concat
+      (i32.const 464)
+      (get_global $spread/numbers)
+     )
+     (i32.const 504)
+    )
+    (get_global $spread/numbers)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block $~lib/array/Array<i32>#get:length|inlined.3 (result i32)
+      (set_local $0
+       (get_global $spread/spread)
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.const 10)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 43)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/array/Array<i32>#__get
+      (get_global $spread/spread)
+      (i32.const 0)
+     )
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 44)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/array/Array<i32>#__get
+      (get_global $spread/spread)
+      (i32.const 1)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 45)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/array/Array<i32>#__get
+      (get_global $spread/spread)
+      (i32.const 3)
+     )
+     (i32.const 3)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 46)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/array/Array<i32>#__get
+      (get_global $spread/spread)
+      (i32.const 4)
+     )
+     (i32.const 4)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 47)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/array/Array<i32>#__get
+      (get_global $spread/spread)
+      (i32.const 6)
+     )
+     (i32.const 6)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 48)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/array/Array<i32>#__get
+      (get_global $spread/spread)
+      (i32.const 9)
+     )
+     (i32.const 3)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 49)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $spread/copy
+   (call $~lib/array/Array<i32>#concat
+    (i32.const 520)
+    (get_global $spread/numbers)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block $~lib/array/Array<i32>#get:length|inlined.4 (result i32)
+      (set_local $0
+       (get_global $spread/copy)
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.const 3)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 52)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/array/Array<i32>#__set
+   (get_global $spread/copy)
+   (i32.const 0)
+   (i32.const 42)
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/array/Array<i32>#__get
+      (get_global $spread/numbers)
+      (i32.const 0)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 54)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 1)
+      )
+      (call_indirect (type $ii)
+       (i32.const 568)
+       (block (result i32)
+        (set_global $~env
+         (get_global $spread/variadic)
+        )
+        (i32.load
+         (get_global $~env)
+        )
+       )
+      )
+     )
+     (i32.const 3)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 57)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 1)
+      )
+      (call_indirect (type $ii)
+       (call $~lib/array/Array<i32>#concat
+        (call $~lib/array/Array<i32>#concat
+         (i32.const 584)
+         (get_global $spread/numbers)
+        )
+        (get_global $spread/numbers)
+       )
+       (block (result i32)
+        (set_global $~env
+         (get_global $spread/variadic)
+        )
+        (i32.load
+         (get_global $~env)
+        )
+       )
+      )
+     )
+     (i32.const 12)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 58)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $spread/total
+   (block (result i32)
+    (set_local $0
+     (call $~lib/memory/memory.allocate
+      (i32.const 4)
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (i32.const 0)
+    )
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.load
+      (call $spread/Sum#add
+       (call $spread/Sum#add
+        (get_global $spread/total)
+        (i32.const 608)
+       )
+       (call $~lib/array/Array<i32>#concat
+        (i32.const 624)
+        (get_global $spread/numbers)
+       )
+      )
+     )
+     (i32.const 9)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 69)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+ )
+)
@@ -101,13 +101,13 @@
      (set_local $1
       (i32.add
        (get_local $1)
-       (i32.const 1)
+       (i32.const 2)
       )
      )
      (set_local $2
       (i32.add
        (get_local $2)
-       (i32.const 1)
+       (i32.const 2)
       )
      )
      (br $continue|0)
@@ -128,7 +128,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 16)
-     (i32.const 239)
+     (i32.const 279)
      (i32.const 4)
     )
     (unreachable)
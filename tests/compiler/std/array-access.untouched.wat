@@ -186,13 +186,13 @@
        (set_local $6
         (i32.add
          (get_local $6)
-         (i32.const 1)
+         (i32.const 2)
         )
        )
        (set_local $7
         (i32.add
          (get_local $7)
-         (i32.const 1)
+         (i32.const 2)
         )
        )
       )
@@ -221,7 +221,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 16)
-     (i32.const 239)
+     (i32.const 279)
      (i32.const 4)
     )
     (unreachable)
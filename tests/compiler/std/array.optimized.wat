@@ -12,17 +12,23 @@
  (type $Iv (func (param i64)))
  (type $II (func (param i64) (result i64)))
  (type $ffi (func (param f32 f32) (result i32)))
+ (type $iiiiii (func (param i32 i32 i32 i32 i32) (result i32)))
+ (type $iiiiiiv (func (param i32 i32 i32 i32 i32 i32)))
+ (type $iiiiiiiv (func (param i32 i32 i32 i32 i32 i32 i32)))
  (type $iv (func (param i32)))
  (type $fi (func (param f32) (result i32)))
  (type $FFi (func (param f64 f64) (result i32)))
  (type $iiF (func (param i32 i32) (result f64)))
  (type $Fi (func (param f64) (result i32)))
+ (type $Iiv (func (param i64 i32)))
+ (type $IIIiI (func (param i64 i64 i64 i32) (result i64)))
+ (type $III (func (param i64 i64) (result i64)))
+ (type $Ii (func (param i64) (result i32)))
+ (type $iIiv (func (param i32 i64 i32)))
  (type $v (func))
- (type $FUNCSIG$vii (func (param i32 i32)))
  (type $FUNCSIG$ii (func (param i32) (result i32)))
- (type $FUNCSIG$vi (func (param i32)))
- (type $FUNCSIG$viii (func (param i32 i32 i32)))
  (type $FUNCSIG$v (func))
+ (type $FUNCSIG$viii (func (param i32 i32 i32)))
  (type $FUNCSIG$i (func (result i32)))
  (type $FUNCSIG$iiii (func (param i32 i32 i32) (result i32)))
  (type $FUNCSIG$iii (func (param i32 i32) (result i32)))
@@ -31,9 +37,13 @@
  (import "JSMath" "random" (func $~lib/math/JSMath.random (result f64)))
  (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
  (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $~lib/internal/dtoa/_hi (mut i64) (i64.const 0))
+ (global $~lib/internal/dtoa/_output (mut i64) (i64.const 0))
+ (global $~lib/internal/dtoa/_exp10 (mut i32) (i32.const 0))
  (global $std/array/arr (mut i32) (i32.const 0))
  (global $std/array/i (mut i32) (i32.const 0))
  (global $std/array/includes (mut i32) (i32.const 0))
+ (global $~env (mut i32) (i32.const 0))
  (global $~argc (mut i32) (i32.const 0))
  (global $std/array/every (mut i32) (i32.const 0))
  (global $std/array/some (mut i32) (i32.const 0))
@@ -43,15 +53,15 @@
  (global $~lib/math/random_seeded (mut i32) (i32.const 0))
  (global $~lib/math/random_state0 (mut i64) (i64.const 0))
  (global $~lib/math/random_state1 (mut i64) (i64.const 0))
- (global $std/array/f32ArrayTyped (mut i32) (i32.const 408))
- (global $std/array/f64ArrayTyped (mut i32) (i32.const 616))
- (global $std/array/i32ArrayTyped (mut i32) (i32.const 792))
- (global $std/array/u32ArrayTyped (mut i32) (i32.const 872))
- (global $std/array/reversed0 (mut i32) (i32.const 928))
- (global $std/array/reversed1 (mut i32) (i32.const 952))
- (global $std/array/reversed2 (mut i32) (i32.const 976))
- (global $std/array/reversed4 (mut i32) (i32.const 1016))
- (global $std/array/expected4 (mut i32) (i32.const 1056))
+ (global $std/array/f32ArrayTyped (mut i32) (i32.const 744))
+ (global $std/array/f64ArrayTyped (mut i32) (i32.const 960))
+ (global $std/array/i32ArrayTyped (mut i32) (i32.const 1144))
+ (global $std/array/u32ArrayTyped (mut i32) (i32.const 1232))
+ (global $std/array/reversed0 (mut i32) (i32.const 1296))
+ (global $std/array/reversed1 (mut i32) (i32.const 1320))
+ (global $std/array/reversed2 (mut i32) (i32.const 1344))
+ (global $std/array/reversed4 (mut i32) (i32.const 1384))
+ (global $std/array/expected4 (mut i32) (i32.const 1424))
  (global $std/array/reversed64 (mut i32) (i32.const 0))
  (global $std/array/reversed128 (mut i32) (i32.const 0))
  (global $std/array/reversed1024 (mut i32) (i32.const 0))
@@ -61,65 +71,292 @@
  (global $std/array/randomized257 (mut i32) (i32.const 0))
  (global $std/array/reversedNested512 (mut i32) (i32.const 0))
  (global $std/array/reversedElements512 (mut i32) (i32.const 0))
- (global $std/array/randomStringsActual (mut i32) (i32.const 1216))
- (global $std/array/randomStringsExpected (mut i32) (i32.const 1288))
+ (global $std/array/randomStringsActual (mut i32) (i32.const 1640))
+ (global $std/array/randomStringsExpected (mut i32) (i32.const 1712))
  (global $std/array/randomStrings400 (mut i32) (i32.const 0))
- (table 55 55 anyfunc)
- (elem (i32.const 0) $start~anonymous|0 $start~anonymous|1 $start~anonymous|2 $start~anonymous|3 $start~anonymous|2 $start~anonymous|5 $start~anonymous|6 $start~anonymous|7 $start~anonymous|8 $start~anonymous|9 $start~anonymous|10 $start~anonymous|11 $start~anonymous|12 $start~anonymous|13 $start~anonymous|14 $start~anonymous|15 $start~anonymous|16 $start~anonymous|17 $start~anonymous|16 $start~anonymous|19 $start~anonymous|20 $start~anonymous|21 $start~anonymous|22 $start~anonymous|23 $start~anonymous|24 $start~anonymous|25 $start~anonymous|26 $start~anonymous|27 $start~anonymous|28 $start~anonymous|28 $start~anonymous|30 $start~anonymous|31 $start~anonymous|32 $start~anonymous|28 $start~anonymous|34 $start~anonymous|28 $start~anonymous|28 $start~anonymous|30 $start~anonymous|31 $start~anonymous|32 $start~anonymous|28 $start~anonymous|34 $~lib/array/Array<f32>#sort|trampoline~anonymous|42 $~lib/array/Array<f64>#sort|trampoline~anonymous|43 $~lib/array/Array<i32>#sort|trampoline~anonymous|44 $~lib/array/Array<u32>#sort|trampoline~anonymous|45 $~lib/array/Array<i32>#sort|trampoline~anonymous|44 $~lib/array/Array<i32>#sort|trampoline~anonymous|44 $start~anonymous|48 $~lib/array/Array<i32>#sort|trampoline~anonymous|44 $start~anonymous|48 $start~anonymous|51 $start~anonymous|52 $start~anonymous|53 $start~anonymous|53)
+ (global $std/array/stableActual (mut i32) (i32.const 1848))
+ (global $std/array/concatenated (mut i32) (i32.const 0))
+ (global $std/array/concatenatedStrings (mut i32) (i32.const 0))
+ (global $std/array/filled (mut i32) (i32.const 19640))
+ (global $std/array/filledBytes (mut i32) (i32.const 19744))
+ (global $std/array/filledStrings (mut i32) (i32.const 0))
+ (global $std/array/findable (mut i32) (i32.const 19832))
+ (global $std/array/findableStrings (mut i32) (i32.const 19912))
+ (global $std/array/copied (mut i32) (i32.const 19976))
+ (global $std/array/nested (mut i32) (i32.const 20280))
+ (global $std/array/flatMapped (mut i32) (i32.const 0))
+ (global $std/array/spliced (mut i32) (i32.const 20432))
+ (global $std/array/removed (mut i32) (i32.const 0))
+ (global $std/array/searchedStrings (mut i32) (i32.const 20584))
+ (global $std/array/copy (mut i32) (i32.const 0))
+ (table 62 62 anyfunc)
+ (elem (i32.const 0) $start~anonymous|0 $start~anonymous|1 $start~anonymous|2 $start~anonymous|3 $start~anonymous|2 $start~anonymous|5 $start~anonymous|6 $start~anonymous|7 $start~anonymous|8 $start~anonymous|9 $start~anonymous|10 $start~anonymous|11 $start~anonymous|12 $start~anonymous|13 $start~anonymous|14 $start~anonymous|15 $start~anonymous|16 $start~anonymous|17 $start~anonymous|16 $start~anonymous|19 $start~anonymous|20 $start~anonymous|21 $start~anonymous|22 $start~anonymous|23 $start~anonymous|24 $start~anonymous|25 $start~anonymous|26 $start~anonymous|27 $start~anonymous|28 $start~anonymous|28 $start~anonymous|30 $start~anonymous|31 $start~anonymous|32 $start~anonymous|28 $start~anonymous|34 $start~anonymous|28 $start~anonymous|28 $start~anonymous|30 $start~anonymous|31 $start~anonymous|32 $start~anonymous|28 $start~anonymous|34 $~lib/array/Array<f32>#sort|trampoline~anonymous|42 $~lib/array/Array<f64>#sort|trampoline~anonymous|43 $~lib/array/Array<i32>#sort|trampoline~anonymous|44 $~lib/array/Array<u32>#sort|trampoline~anonymous|45 $~lib/array/Array<i32>#sort|trampoline~anonymous|44 $~lib/array/Array<i32>#sort|trampoline~anonymous|44 $start~anonymous|48 $~lib/array/Array<i32>#sort|trampoline~anonymous|44 $start~anonymous|48 $start~anonymous|51 $start~anonymous|52 $start~anonymous|53 $start~anonymous|53 $start~anonymous|55 $start~anonymous|56 $start~anonymous|57 $start~anonymous|58 $start~anonymous|58 $start~anonymous|60 $start~anonymous|61)
  (memory $0 1)
  (data (i32.const 8) "\0d\00\00\00~\00l\00i\00b\00/\00a\00r\00r\00a\00y\00.\00t\00s")
  (data (i32.const 40) "\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s")
  (data (i32.const 104) "\0c\00\00\00s\00t\00d\00/\00a\00r\00r\00a\00y\00.\00t\00s")
- (data (i32.const 136) "\0c\00\00\00~\00l\00i\00b\00/\00m\00a\00t\00h\00.\00t\00s")
- (data (i32.const 168) "V\00\00\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\000\001\002\003\004\005\006\007\008\009\00_\00-\00,\00.\00+\00/\00\\\00[\00]\00{\00}\00(\00)\00<\00>\00*\00&\00$\00%\00^\00@\00#\00!\00?")
- (data (i32.const 344) " ")
- (data (i32.const 354) "\80?\00\00\c0\7f\00\00\80\ff\00\00\80?\00\00\00\00\00\00\80\bf\00\00\00\c0\00\00\80\7f")
- (data (i32.const 408) "X\01\00\00\08")
- (data (i32.const 416) " ")
- (data (i32.const 426) "\80\ff\00\00\00\c0\00\00\80\bf\00\00\00\00\00\00\80?\00\00\80?\00\00\80\7f\00\00\c0\7f")
- (data (i32.const 480) "\a0\01\00\00\08")
- (data (i32.const 488) "@")
- (data (i32.const 502) "\f0?\00\00\00\00\00\00\f8\7f\00\00\00\00\00\00\f0\ff\05\00\00\00\00\00\f0?")
- (data (i32.const 542) "\f0\bf\00\00\00\00\00\00\00\c0\00\00\00\00\00\00\f0\7f")
- (data (i32.const 616) "\e8\01\00\00\08")
- (data (i32.const 624) "@")
- (data (i32.const 638) "\f0\ff\00\00\00\00\00\00\00\c0\00\00\00\00\00\00\f0\bf")
- (data (i32.const 670) "\f0?\05\00\00\00\00\00\f0?\00\00\00\00\00\00\f0\7f\00\00\00\00\00\00\f8\7f")
- (data (i32.const 752) "p\02\00\00\08")
- (data (i32.const 760) "\14\00\00\00\00\00\00\00\01\00\00\00\fe\ff\ff\ff\ff\ff\ff\ff\00\00\00\00\02")
- (data (i32.const 792) "\f8\02\00\00\05")
- (data (i32.const 800) "\14\00\00\00\00\00\00\00\fe\ff\ff\ff\ff\ff\ff\ff\00\00\00\00\01\00\00\00\02")
- (data (i32.const 832) " \03\00\00\05")
- (data (i32.const 840) "\14\00\00\00\00\00\00\00\01\00\00\00\ff\ff\ff\ff\fe\ff\ff\ff\00\00\00\00\02")
- (data (i32.const 872) "H\03\00\00\05")
- (data (i32.const 880) "\14")
- (data (i32.const 892) "\01\00\00\00\02\00\00\00\fe\ff\ff\ff\ff\ff\ff\ff")
- (data (i32.const 912) "p\03\00\00\05")
- (data (i32.const 928) "\98\03")
- (data (i32.const 936) "\04\00\00\00\00\00\00\00\01")
- (data (i32.const 952) "\a8\03\00\00\01")
- (data (i32.const 960) "\08\00\00\00\00\00\00\00\02\00\00\00\01")
- (data (i32.const 976) "\c0\03\00\00\02")
- (data (i32.const 984) "\10\00\00\00\00\00\00\00\03\00\00\00\02\00\00\00\01")
- (data (i32.const 1016) "\d8\03\00\00\04")
- (data (i32.const 1024) "\10")
- (data (i32.const 1036) "\01\00\00\00\02\00\00\00\03")
- (data (i32.const 1057) "\04\00\00\04")
- (data (i32.const 1064) "\04\00\00\00\00\00\00\00\01")
- (data (i32.const 1080) "(\04\00\00\01")
- (data (i32.const 1088) "\08\00\00\00\00\00\00\00\01\00\00\00\02")
- (data (i32.const 1104) "@\04\00\00\02")
- (data (i32.const 1112) "\01\00\00\00a")
- (data (i32.const 1120) "\01\00\00\00b")
- (data (i32.const 1128) "\02\00\00\00a\00b")
- (data (i32.const 1136) "\02\00\00\00b\00a")
- (data (i32.const 1152) "\1c\00\00\00\00\00\00\00X\04\00\00`\04\00\00X\04\00\00h\04\00\00p\04\00\00x\04")
- (data (i32.const 1216) "\80\04\00\00\07")
- (data (i32.const 1224) "\1c\00\00\00\00\00\00\00x\04\00\00X\04\00\00X\04\00\00h\04\00\00`\04\00\00p\04")
- (data (i32.const 1288) "\c8\04\00\00\07")
- (data (i32.const 1296) "\0e\00\00\00~\00l\00i\00b\00/\00s\00t\00r\00i\00n\00g\00.\00t\00s")
- (data (i32.const 1328) "\17\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00s\00t\00r\00i\00n\00g\00.\00t\00s")
- (data (i32.const 1384) "\04\00\00\00n\00u\00l\00l")
+ (data (i32.const 144) "\01")
+ (data (i32.const 152) "\02")
+ (data (i32.const 160) "\03")
+ (data (i32.const 168) "\04")
+ (data (i32.const 176) "\05")
+ (data (i32.const 184) "\06")
+ (data (i32.const 192) "\07")
+ (data (i32.const 200) "\08")
+ (data (i32.const 208) "\t")
+ (data (i32.const 216) "\n")
+ (data (i32.const 224) "\0b")
+ (data (i32.const 232) "\0c")
+ (data (i32.const 240) "\0d")
+ (data (i32.const 248) "\0e")
+ (data (i32.const 256) "\0f")
+ (data (i32.const 264) "\10")
+ (data (i32.const 272) "\11")
+ (data (i32.const 280) "\12")
+ (data (i32.const 288) "\13")
+ (data (i32.const 296) "\14")
+ (data (i32.const 304) "\15")
+ (data (i32.const 312) "\16")
+ (data (i32.const 320) "\17")
+ (data (i32.const 328) "\18")
+ (data (i32.const 336) "\19")
+ (data (i32.const 344) "\1a")
+ (data (i32.const 352) "\1b")
+ (data (i32.const 360) "\1c")
+ (data (i32.const 368) "\1d")
+ (data (i32.const 376) "\1e")
+ (data (i32.const 384) "\1f")
+ (data (i32.const 392) " ")
+ (data (i32.const 400) "!")
+ (data (i32.const 408) "\"")
+ (data (i32.const 416) "#")
+ (data (i32.const 424) "$")
+ (data (i32.const 432) "%")
+ (data (i32.const 440) "&")
+ (data (i32.const 448) "\'")
+ (data (i32.const 456) "(")
+ (data (i32.const 464) ")")
+ (data (i32.const 472) "\0c\00\00\00~\00l\00i\00b\00/\00m\00a\00t\00h\00.\00t\00s")
+ (data (i32.const 504) "V\00\00\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\000\001\002\003\004\005\006\007\008\009\00_\00-\00,\00.\00+\00/\00\\\00[\00]\00{\00}\00(\00)\00<\00>\00*\00&\00$\00%\00^\00@\00#\00!\00?")
+ (data (i32.const 680) " ")
+ (data (i32.const 690) "\80?\00\00\c0\7f\00\00\80\ff\00\00\80?\00\00\00\00\00\00\80\bf\00\00\00\c0\00\00\80\7f")
+ (data (i32.const 744) "\a8\02\00\00\08")
+ (data (i32.const 752) "*")
+ (data (i32.const 760) " ")
+ (data (i32.const 770) "\80\ff\00\00\00\c0\00\00\80\bf\00\00\00\00\00\00\80?\00\00\80?\00\00\80\7f\00\00\c0\7f")
+ (data (i32.const 824) "\f8\02\00\00\08")
+ (data (i32.const 832) "@")
+ (data (i32.const 846) "\f0?\00\00\00\00\00\00\f8\7f\00\00\00\00\00\00\f0\ff\05\00\00\00\00\00\f0?")
+ (data (i32.const 886) "\f0\bf\00\00\00\00\00\00\00\c0\00\00\00\00\00\00\f0\7f")
+ (data (i32.const 960) "@\03\00\00\08")
+ (data (i32.const 968) "+")
+ (data (i32.const 976) "@")
+ (data (i32.const 990) "\f0\ff\00\00\00\00\00\00\00\c0\00\00\00\00\00\00\f0\bf")
+ (data (i32.const 1022) "\f0?\05\00\00\00\00\00\f0?\00\00\00\00\00\00\f0\7f\00\00\00\00\00\00\f8\7f")
+ (data (i32.const 1104) "\d0\03\00\00\08")
+ (data (i32.const 1112) "\14\00\00\00\00\00\00\00\01\00\00\00\fe\ff\ff\ff\ff\ff\ff\ff\00\00\00\00\02")
+ (data (i32.const 1144) "X\04\00\00\05")
+ (data (i32.const 1152) ",")
+ (data (i32.const 1160) "\14\00\00\00\00\00\00\00\fe\ff\ff\ff\ff\ff\ff\ff\00\00\00\00\01\00\00\00\02")
+ (data (i32.const 1192) "\88\04\00\00\05")
+ (data (i32.const 1200) "\14\00\00\00\00\00\00\00\01\00\00\00\ff\ff\ff\ff\fe\ff\ff\ff\00\00\00\00\02")
+ (data (i32.const 1232) "\b0\04\00\00\05")
+ (data (i32.const 1240) "-")
+ (data (i32.const 1248) "\14")
+ (data (i32.const 1260) "\01\00\00\00\02\00\00\00\fe\ff\ff\ff\ff\ff\ff\ff")
+ (data (i32.const 1280) "\e0\04\00\00\05")
+ (data (i32.const 1296) "\08\05")
+ (data (i32.const 1304) "\04\00\00\00\00\00\00\00\01")
+ (data (i32.const 1320) "\18\05\00\00\01")
+ (data (i32.const 1328) "\08\00\00\00\00\00\00\00\02\00\00\00\01")
+ (data (i32.const 1344) "0\05\00\00\02")
+ (data (i32.const 1352) "\10\00\00\00\00\00\00\00\03\00\00\00\02\00\00\00\01")
+ (data (i32.const 1384) "H\05\00\00\04")
+ (data (i32.const 1392) "\10")
+ (data (i32.const 1404) "\01\00\00\00\02\00\00\00\03")
+ (data (i32.const 1424) "p\05\00\00\04")
+ (data (i32.const 1432) ".")
+ (data (i32.const 1440) "\04\00\00\00\00\00\00\00\01")
+ (data (i32.const 1456) "\a0\05\00\00\01")
+ (data (i32.const 1464) "\08\00\00\00\00\00\00\00\01\00\00\00\02")
+ (data (i32.const 1480) "\b8\05\00\00\02")
+ (data (i32.const 1488) "/")
+ (data (i32.const 1496) "0")
+ (data (i32.const 1504) "1")
+ (data (i32.const 1512) "2")
+ (data (i32.const 1520) "3")
+ (data (i32.const 1528) "4")
+ (data (i32.const 1536) "\01\00\00\00a")
+ (data (i32.const 1544) "\01\00\00\00b")
+ (data (i32.const 1552) "\02\00\00\00a\00b")
+ (data (i32.const 1560) "\02\00\00\00b\00a")
+ (data (i32.const 1576) "\1c")
+ (data (i32.const 1585) "\06\00\00\08\06\00\00\00\06\00\00\10\06\00\00\18\06\00\00 \06")
+ (data (i32.const 1640) "(\06\00\00\07")
+ (data (i32.const 1648) "\1c\00\00\00\00\00\00\00 \06\00\00\00\06\00\00\00\06\00\00\10\06\00\00\08\06\00\00\18\06")
+ (data (i32.const 1712) "p\06\00\00\07")
+ (data (i32.const 1720) "5")
+ (data (i32.const 1728) "\0e\00\00\00~\00l\00i\00b\00/\00s\00t\00r\00i\00n\00g\00.\00t\00s")
+ (data (i32.const 1760) "\17\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00s\00t\00r\00i\00n\00g\00.\00t\00s")
+ (data (i32.const 1816) "\04\00\00\00n\00u\00l\00l")
+ (data (i32.const 1832) "6")
+ (data (i32.const 1848) "0\07")
+ (data (i32.const 1856) "7")
+ (data (i32.const 1872) "H\07")
+ (data (i32.const 1880) "\01\00\00\000")
+ (data (i32.const 1888) "(\00\00\00\00\00\00\00\01\00\00\00\n\00\00\00d\00\00\00\e8\03\00\00\10\'\00\00\a0\86\01\00@B\0f\00\80\96\98\00\00\e1\f5\05\00\ca\9a;")
+ (data (i32.const 1952) "`\07\00\00\n")
+ (data (i32.const 1960) "\90\01\00\00\00\00\00\000\000\000\001\000\002\000\003\000\004\000\005\000\006\000\007\000\008\000\009\001\000\001\001\001\002\001\003\001\004\001\005\001\006\001\007\001\008\001\009\002\000\002\001\002\002\002\003\002\004\002\005\002\006\002\007\002\008\002\009\003\000\003\001\003\002\003\003\003\004\003\005\003\006\003\007\003\008\003\009\004\000\004\001\004\002\004\003\004\004\004\005\004\006\004\007\004\008\004\009\005\000\005\001\005\002\005\003\005\004\005\005\005\006\005\007\005\008\005\009\006\000\006\001\006\002\006\003\006\004\006\005\006\006\006\007\006\008\006\009\007\000\007\001\007\002\007\003\007\004\007\005\007\006\007\007\007\008\007\009\008\000\008\001\008\002\008\003\008\004\008\005\008\006\008\007\008\008\008\009\009\000\009\001\009\002\009\003\009\004\009\005\009\006\009\007\009\008\009\009")
+ (data (i32.const 2472) "\a8\07\00\00d")
+ (data (i32.const 2480) "\01\00\00\00,")
+ (data (i32.const 2496) "\b8\t")
+ (data (i32.const 2504) "\0c\00\00\00\00\00\00\00\01\00\00\00\fe\ff\ff\ff\03")
+ (data (i32.const 2536) "\c8\t\00\00\03")
+ (data (i32.const 2544) "\0c\00\00\00\00\00\00\00\01\00\00\00\fe\ff\ff\ff\03")
+ (data (i32.const 2576) "\f0\t\00\00\03")
+ (data (i32.const 2584) "\06\00\00\001\00,\00-\002\00,\003")
+ (data (i32.const 2600) "\0c\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03")
+ (data (i32.const 2632) "(\n\00\00\03")
+ (data (i32.const 2640) "\03\00\00\00 \00-\00 ")
+ (data (i32.const 2656) "\0c\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03")
+ (data (i32.const 2688) "`\n\00\00\03")
+ (data (i32.const 2696) "\t\00\00\001\00 \00-\00 \002\00 \00-\00 \003")
+ (data (i32.const 2720) "\18")
+ (data (i32.const 2734) "\e0?\00\00\00\00\00\00\f0\bf\00\00\00\00\00\00\f8\7f")
+ (data (i32.const 2752) "\a0\n\00\00\03")
+ (data (i32.const 2760) "\01\00\00\00|")
+ (data (i32.const 2768) "\03\00\00\00N\00a\00N")
+ (data (i32.const 2784) "\t\00\00\00-\00I\00n\00f\00i\00n\00i\00t\00y")
+ (data (i32.const 2808) "\08\00\00\00I\00n\00f\00i\00n\00i\00t\00y")
+ (data (i32.const 2832) "`\15\00\00\00\00\00\00\01")
+ (data (i32.const 2855) " \9a\99\99\99\99\99\99\99\99\99\99\99\99\99\99\19\15\aeG\e1z\14\aeG\e1z\14\aeG\e1z\14\de$\06\81\95C\8bl\e7\fb\a9\f1\d2Mb\10\96\d4\th\"lxz\a5,C\1c\eb\e26\1a\abCn\86\1b\f0\f9a\84\f0h\e3\88\b5\f8\14\"6X8I\f3\c7\b46\8d\ed\b5\a0\f7\c6\10j#\8d\c0\0eR\a6\87WH\af\bc\9a\f2\d7\1a\88O\d7f\a5A\b8\9f\df9\8c0\e2\8ey\15\07\a6\12\1fQ\01-\e6\b2\94\d6&\e8\0b.\11\a4\tQ\cb\81h\ae\d6\b7\ba\bd\d7\d9\df|\1b\ea:\a7\a24\ed\f1\de_\95dy\e1\7f\fd\15\bb\c8\85\e8\f6\f0\'\7f\19\11\ea-\81\99\97\11\f8\0d\d6@\be\b4\0ce\c2\81vIh\c2%\1c\93q\de3\98\90p\ea\01\9b+\a1\86\9b\84\16C\c1~)\e0\a6\f3!\9b\15V\e7\9e\af\03\12751\0f\cd\d7\85i+\bc\89\d8\97\b2\d2\1c\f9\90Z?\d7\df7!\89\96\d4FF\f5\0e\17\fasH\ccE\e6_\e7\a0\abC\d2\d1]r\12]\86\0dz<=f\a54\ac\d2\b6O\c9\83\1d\b1\9e\d7\94c\97\1eQ]#B\92\0c\a1\9c\17\c1Ky\dd\82\df~\da}O\9b\0e\n\b4\e3\12h\ac[b\d1\98d*\96\e5^\17\10 9\1eS\f0\e2\81\a7\e0\b6\eeDQ\b2\12@\b3-\18\a9&O\ceRM\92Xj\a7\8e\a8\99\c2W\13A\a4~\b0\b7{P\'\aa\d8}\da\f5\d0\f2\1e4Pe\c0_\c9\a6R\bb\13\cb\ae\c4@\c2\18\90\a6\ea\99L\d4\eb\0e\c9\0f<\f26\9a\ce\13\80\n\11\c3\adSy\b1A\19`P\be\f6\b0\1fg\08t\02\8b\dc-\c1gG\b3\a6\fe^Z\19R\a0)5o\b0$4\86\9f\c2\eb\feKH\14\db\19\ee\90\f2Y\1d\90\9e\7fh\89e\d69\10_)\b0\b4\1d\c3\fbL\972\a7\a8\d5#\f6\19\b2\baY]\b15\96=\ac[\1f\baw\e9\c4\14(b\e1}\'^\ab\97VIL\fb\92\87\9d\10\0d\9dh\c9\d8\c9\ab\f2\f0\0ez\f8\b7\a5\95\1a>\17\ba:z\a1\bc[Zr.-\93\84D\15\cbE\fb.\c8\1a\ca\af\ae\8e\8b\8aB\9d\03\11E\t\92\b1\a6\f7\dc\b2J\e4x\aa\9d\fb8\1b\04\a1A\c1\eb\92}\f5n\83-U\b1/\c7\15\03\b4gg\89ud\c4X\9cWw\'&l\11\d2\ec\a5\d8\db\88mm\f4\c6%\f2\0b=\e0\1b\db#\ebF\16\07\be\8a\c38\1e(\a3\fdL\16I\b6U\d2\11l\fen\9c`KSO1\d7\11\0e\8a\ef\b6O\13\97\b1`gE\85\18\82\8b\1c\a5\a1\bf\f8r\0f\ac\'\1a\b9j7\ad\01\d6\16\1eN\99`\c2rV\b9\e1`U,$\ceD\12\95\16\c2\cd\03\1eW\f55\ce\bb\13m\e3:\1d\ab\ab\01\0b\03\18\ac*+\d8/v\8aOb\17V\894o\02\e0\bc\bbU\13\f3\c4n\0c\b5\12\89\a8\ed\b1\d0\cc\c7\92\ef\1e\b8\d4Jz\ee\1d\07\baW\8e@\n\d3\db\f2K\93\10o\fb\f1\17\06\c8\dfq\00\d5\a8|\f5o\0f\daX\fc\'\13\d6\0cf\e93\bb\a7\fa\bbL\b2)\8e`\a6\1e\11\d7\84\87)\fcR\95\c9\a3\8eT\0b\1a\85\18\0e\ac\d0\d2\ba\c9\a8\aa\07\83\d8vo\ae\9d\13\e3\ac\1a\1e^\dc\da\dd\a5\d1\c0W\b2\b0b\1fO\8aHKK\b0H~QA\9a\ac\8e\c0\1b\19\d9\a1\d3\d5\d5Ym\cb\da\cd\e1V\a53\16\14{\81\dcw\11{W<\e2\d7\e7\ab\ea\c2\11\10*\cf`Y\82^\f2\c66&\a6\ac\aa\04\b6\19\bb\a5\80Gh\18\f5k\c5Q\ebVU\9d\91\14\96\84\00\06\edy*#\d1\a7\"\df\dd}t\10V\074\a3\e1\8f\dd\d1\81\0c\d11\96\fcS\1aEl\f6\e8\1as\e4\a74=\a7\f4D\fd\0f\15\9eV\f8S\e2(\1dS]\97R]j\97\d9\10bW\8d\b9\03\dba\eb.\f2P\95\10\bf\f5\1a\e8E\a4\c7\cfHN\bcX[\da\dd\a6e\91\15 k\83l\d9\d3qc\ad\e2\e1\17\1f\1eA\11\cd\11\9f\ad(\86\1c\9fH\04\03\f3dc\9b\1b\0b\db\18\beSk\b0\e5\06\9d5\8f\1d\e9\15\16\a2\15G\cb\0f\89\f3\eakJ\91r\e4 \ab\117\bcqxL\db\b8DF\aa\1b\84m\01E\1c_c\c1\c6\d6\15\c7\03\05UI\03\be\9a\9d\16\19\e9\cdkE\de867w\07i\fe\ae\17\12\c1A\16F\a2c\c1VXXr\0e\97\b1\f2\1c\ceg\ab\d1\81\1c\01\dfy\13\f5q\12\8e(\17\a5\ecUA\ce\164\7fa\dc\90\c1\0e\d8\86\12nGV5}$ e\02\c7\e7h\e4\8c\a4\1d%9x\f70\1d\80\ea\01l\b9 \1d\d7\b6\17\84\fa,\f9\f3\b0\99\bb4#aM\17\ac\f8\129\f7G(SN\\_T8h\15\f2\acZ\1e.,\d3\b9u\0b}\7fC`SD[\8aH\18X#\dc\c7\f7\d50\99\cf\19\a96|;m\13&\d2\f9r\8c\89\b4\8e\b2\8f\0e\f1\f9+\15\1f\b8A.\8f\a3\07*r(\a6\0b\f4\c7\bc\dd\18\fa\9a\be\a5O9\bb\c1\86\1e\d6\\\06\97\e4\13\f6\f70\t\19\c2^\9c\d70\f0\fa\d6$\d4\1f\f8_Z\07\14h\e5Iy\8d&/\df\83v\19`\e6\e1\05\10 Qn\c7\nR\bf\e5\cf^\14\1a\85\81\d1\0c\80\da\f1\05o\0e\99\84\d9K\10\f5\d4h\82\14\00\c4O\d6\e4\e3\f4\a0\f5\12\1a+w\ed\01\aa\99i\d9\11\b7\1c\f7\b3\f7\db\14\bc\c5\8a\01\88\14\ee\adt\92\b0\c5\\\f9\af\10,\t\deh\a6\ed|IT\ea\80o\94(\b3\1a$\d4\e4S\b8W\ca:\10U\9a\bfv \\\15\83v\1dC`y;bs\aa\ae\ff^\80\16\11\9e\bd\c8\d1f\f5+\9d\b8\10\b12\cb3W\1b\7fdmAR\c4\bc}`\0d\f4\8e\a2\\\df\15\cc\b6\8ag\dbi\fd\ca\e6=\c3\d8N}\7f\11\df\8awr\c5\0f/\ab\d7/\05\8e\e4.\ff\1b\80\d5\92[\04s\f2\88\ac\8cj>\1d\bfe\16fDBI\d0(\f5\d3V=U\98J\ff\ea\11\a3\a0\03BMA\88\b9W\95\bb\f3\102\ab\1c\e9\e6\02h\d7\cd9ayw\fc\c2@[\ef\16TR\02 yqa\e7-\f9\c9h\cd\15Y\12\86P\9d\99\8e\b5h\a5|[vt\15V[\1d\d2\a6J\e1>\91 Q\fd\15\c5\f6\ddD|\17\0e\1f\a2\1a\ff@M\a7\caD7\92\b1\d0\c9\12J\cbi\f7d\ce\ae\0b\11nXPO\b4\0f\1e;<\ee\c5P\d8\8b<\a7\f1ys?\90\0c\18\c9\c9\f17\day\t\ca\85\f4\c7\c22@=\13\dbB\e9\bf\f6\c2\a8\a9o\ba\0c\9e\b7f\c8\1e\e3\9b\ba\cc+\cfS!&\95p~,R\a0\18\82I\95p\89r\a9\1a\b8\dd&e\f0t\b3\13\9du\88\1a\0f\84u\f7\8c/>\08\e7\87\85\1f\17^\a0{r6\91_\n&\98\06\ec\9f7\19\df\e4\19\96[\f8@\19\d5\84F\05\f0\7f,\14L\eaG\ab\af\c6\00\e1\107\05\d1\8c\99#\10G\dd?EL\a4g\ce\e7$\d5\b4G\8f\d2\19\06\b1\cc\9d\d6\e9R\d8\1f\b7\dd\c3\9fr\a8\148\'\nKE\ee\dby\19,~i\19\c2\86\10Y\d8\a9\11\a2\e3_)\8fF0\0f\8f6q\1az\13\bb\a7\81\1c\b3\ba\a5k\f3\d8\d8^\'\15/\a9\95\ec\9a\e3(bQ\89\8f\ad\e0K\ec\10\17u\ef\e0\f78\0e\9d\e8\0eL\af\9a\ac\13\1by*Y\1a\93-\d8\b0Sr\d6%\e2V\a9\15.UGH\0f\bey\8d\dc\c1\de\b7\81ET\11|\bb\0b\da~\96\8f\15\94\9c\97\8c\cf\08\ba\1b\97/\d6\14\ff\11\a6wv\b0\df\d6rm.\16y\8c\deC\ff\a7Q\f9\91\f3\b2x\f5\bd\be\11\8e\ad\fd\d2\fe?\1c\c2\1c\ec\b7Z\"cd\1c\d8\8adB23\b0\01\17\f0_\15\b5\b5\b6\16F\a2\83\9b\8e\c2Y\01\acY\e6\dd\90\c4+\12\a3\039_\17\04\f6\ce\ac\c2\a3\fc\1a\d4\12\1d\83\9c-L\aci^r\bd\9b\1c\caHCB\17\9c\e3\8a\d6\89T\18\f5\fd\e2\16\08\07i\9b\12\c6\05\ab\bd\0fT\8d\ee/k\f1\0c\d8t\c5\1d\05k\"\ferv\d7\be\8c\"\c1pF*\d1\17\04\bcN\cb(\c5\12\ff\d6Ng\8dk\bb\0d\13\a0\f9}xt;Q\cb$~\d8{\12_|\1eMa\fe\f9)\c9\0d\t\b71\ad\fcA\7fc\18\n\81\cb\94!\d4\d7\a0\c5\'$\ca4\cc\82\13w\cexT\cf\b9\bfgo\0cmC!\ad7\1f\f9q-\dd\a5\94\cc\1fYp\8a\cfMW\f9\18\c7\f4\bd}Q\dd\d6\7fz\f3\a1?>\ac\fa\13\0b\ee/\c9\e8.\be\ff\c3\b8\9c2\fdy\f7\1f\d6$\f3\a0 \bf1f6\fa\16\c2\fd\c7\92\19x\1d\\\1a\1a\cc\'\b8^\fb\ab\01\cblu\14`\e4|{\ae\tS\93\18\c9\bcg\a2\f0]\10\99\a0\94\c5\b0B\eb\1e\f4t\94?j\e7/\1a\e1\e6v\04\'\02\89\e5\\*\dd2\88\1f\f3\14\e7\eb+\9d\85\ce\a0\b7\b0\ee\b0(\a0\7f\c2\10\d8\df\dfaoJ\01Y\b4JNt3\cc\d0\1a\adL\e6\e7%\d5\cd\e0)\a2>\90\8f\d6s\15\f1\d6Q\86QwqM\ee\b4\cb\d9rx)\11\e8W\e9\d6\e8\be\e8{\b0T\ac\8f\84\8du\1b \13!\dfS2\ba\fcY\dd\89\0cj\a4\f7\15\80B\e7\18C(\c8c\aeJnp\ee\e9\92\11fj\d8\'8\0d\0d\06\17\11J\1a\17C\1e\1c\eb!\ad\ec,\a4=k\12tn{\12\9c~\16VNW\bd\f0\1c\fe\88\db\\X\fcA\e3\fe\11#J%b\b4\94\96A_a\8d`6\05\cb\1c\e9\d4\1d\e8)\aa\abg\7f\e7=M\f8\d0\08\17\87\dd\17 \bb!V\b92\b9d\d7\f9sm\12\a5\95\8cf+i#\c2\ea\c1:\f2\c2\ec{\1d\1d\de\d6\1e\89\ba\82\ce\bb4b[\02W\96\17\18\18\dfK\07b5\a5\fc\f6\b4\e2\01\ac\de\12Y\f3dy\d8\9c\88;\94\f1\8776\131\1e\e1\f5\83\c7FJm\fc\dcZ\06\c6\91B\'\18\1a+\03\06\9fnW0\17\af\9e\d1\a7\9bR\13\90\de\d1<\cb}%\1a%\181\1c\a6\92\ea\1e@\e5\a70<\fe\1dH\b7yZ\e3\84\a8\bb\18\00Q\86\c0\c91K\d3\c5\c7\ae\82\9dS\c9\13\cd\b4\a3\cdB\e9\11R\t\a6\17\d1\c8\85\a8\1f\a4\90\1c>\02!\dbt\07\b8\df@:\9eS\19P\0dJ\cb\01\b4\15\f7\05`\19g\fb\e4B\14\a7\n\08\t\9b)\de\f87\b3zR\fc\835\10\d7\dd\0c\a8\91B0\8eY\b8*\b7\939\ef\19\13K\n \0e\02\8d>\e1\f9\ee\f8Ba\bf\14\0f<\08\80>\9b=e\e7\c7X\fa\9b\1a\99\10\e4,\0d\00d\f8\c8n\a5\0c\8e\90\f9\90\8e\1a\ea#\a4\99\e9\f9\d3\8b\b7\a3q@a\da>\15\bb\1cP\e1\ba\94\a9<\f9\82\f4\99\1a\15\ff\10+a\b3\9b\c4\bau\c7\8e\d1 \c3]\bb1\1b\89\1a)\16j\95\c4\d2\0b\0e\e7h\b1b\c1\15\a1{\ba\11\88w\d0\dbo>\1f\87\'\82g\11\9b\92]\1c@\bf\80,\e6c\98>?\d0\d8\1bIu\e4I3\cc3\bdQ\b6Fe\ff\0cG\16\d4]Pn\8f\d6\8f\ca\a7^\05Q\ccp\d2\11S\c9\b3\e3KW\19D\d9\fdnN\ad\e7\83\1c\a9:\f6\82\tyG\03\e1\97%\a5\8a\ec\cf\16\ba\fb\c4h\d4`l\cf\80y\84\ean\f0?\12*\f9\07\0e\874z\e5\9a\f5\d3\10K\1a3\1d\"\949\0bl\90.Q\e2*C\da\08\15\\\17\b5\a9\c7\d5\bc\a6\8b\da\81U\cf\e1\d3\10\b0\12\87\0f\d9\".q\df\90\9cU\e5\02S\81\e6\1dl\0c\14O\8bZL\da\16\de\1d\cf\a8\9a\eb\17\8a\a3\a9\a5\a2{\a3\aex~\b1\a5 \e2\"\13\a9\05\a9\a2j_\d2}\'\97\b5\a2\9a6\9e\1eT\d1 \82\88\7f\db\97\1f\ac\f7N\15\92~\18w\a7\80\ce\06f|yL#\c6\d8\ddt\98\13\f1\0b\01\e4\np-\8f\adk\a3\'\96TZ\1fZ\d6\00P\a2Y$\0c\be\ef\b5\1fx\10\15\19\15E\9a\d9\81\14\1dp\fe\f2\f7\b2\f9\d9\10\14wj{\14\9bC\17\c0\fe[\c6(.{\0d\10\f2C\92\ed\c4\05\f2\cc\ca,\n\0e}+\af\19\c2\9c\0e\be\d07[\no\bd\a1q\ca\"\8c\14\ce\e3>\cbs\f9H\08\8c\97\b4\'\d5\1bp\10\b0\9fdx\ec[\0e\da\ac%T\0cU\f9L\1a\c0\7fP`\f0\af>{\bd\b7\a9\d6\10a\n\153f@\80\f3\bf\cb\95\97,\ee\des\1a\d5\10Rp\cdfRf\ac\efXG\b0d\b9\90\ee\1a\dbY\a4\b8\0e\85#&Gl\f3\b6\fa\a6\8b\15I\ae\b6\93\d8\d0\82\1el#)_\95\85<\11u\b0\8a\1f\f4\1a\9e\fd\ac8\a8\fe\ee\08\94\1b\f7Y\d5\b2)\af\b1\97\bd\93\86\98%\07\10\16,{w\f5\ba%\8e\ac\97\dc\9e\13\1el\a6\11\13\c5X\"+\t}z\bf-\fe\b8\c9y=\1cvj\adN\ef\a0\fda\ccW\cb`\a1\94\97\16\c5\ee\bd\0bY\1a\fe\e7\t\13\t\e7M\dd\12\12:\b1\fcE[]c\a6\dc\84\0e\d8\af\fb\ea\1c\c8\8d0k\afJ\1c\85\b0\d0>\13\f3b\"\17\d4\d7&\bc\f2n\e3\d0&\da\cbu\c2\e8\81\12\86\8c\a4\c6\ea\17\9f\b4\d7)F\89\9d\a7\9c\1dkpP\05\ef\df\18*F\ee\04\a1\17\86\b0\17\89\f3\d9\9d%\b3\e0Tk\8b\9dMy\9e\f3\12tR\f6bo\eb\cd\87xE/|(\97R\1e]\a8^\82\bf\"\0b\d3\c6j\bf\c9\86\12B\18\e4\b9Kh\cc\1b<\0f\9f\88\ff:\d2\0eh\13m)y@z,`\18\98\da\98\91\83\e4\0c\1f$!\943\c8V\b3F\13\e2\13\0e6\1d\d7\18\b6MC)\a0x\8f8\dc\b4\dc\a4\91J\df\13\8a\afk\a8f\'\7fZ`!a\a1\82\aa\cb\1f\a2\bf\ef\b9\eb\852\15M\b4M\b4\9b\bbo\19N\99\8ca\89\d1\8e\aa=\90\a4\f6\e2bY\14\0c\e1\d6\1a\a1\a7\d8\ee\ca\d9\b6+O\82G\10E\9b$^\9br\'~\11\f6\8a\df\b1\03\0c\1a\04I\1d\18I\f5\85\fe\0d\f8;\19[i\d6\14\d0\a0J\13\d4]\9e\cb\a4\f9/\14|\87\ab\10M\01\11RS\c9c\df:\\\e6\b9\f9\0b\ac\1aqg\dat\0f\a1\1c\19/\b0\1e\fb\faoV\15\c1RH*\d9\80\b0\ad%\c0K//\f3\11\114Q\0d\aa\8e4\e7\15\t\cd\12\b2~\ebO\1b\c4\0dq\ee>]\1f\abm\n\0f(2\89\d9\15\9d\a4\8d\8be\17\19\bcW\08\0c (\d4z\11\94:|\12<\f2\f4,Y\0d\e0\cc\d9\b9\f7\1bC\95\96\db\fc\f4\c3\f0\e0=\b3p\e1\c7_\16\03\11\12\16\97]6Z\1a\cb\f5&\819\e6\11\04\e8\1c\f0$\fcV\90\90\de\"\0b5\8f\a3\1c\d0\ec\e3\8c\1d0\df\d9\a6K\82\a2]?\e9\16\da#\83=\b1Y\7f\e1\eb\a2\ceN\b12T\12\\98/\b5\c2\cbhy\d1}\e4N\84S\1d\e3-`\bf]5\d6S\94\a7dPr\03v\17\1c\8b\e6e\b1*x\a9v\ec\b6\a6\8e\cf\c4\12\faD\d7o\b5\aa&\0f\f1\13\8b\d7}\b2\07\1ebj\df\bf*\"R?\'Co\acd(\06\18N\88\7f\99\88N\dbe\1f\9c\f2\89P 8\13J\0d\cc(tJ\c5oe\93\ea\0f\b43\c0\1e;\a4\t\87\f6\a1jY\84\0f\"s\f6\c2\99\18\96\b6\07l\f8\e7\ee\ad6\d9\b4\f5\915\ae\13VW\0c\e0\f3?~I$\f5\ba\"\83\"}\1fE\ac\d6L\f6\ffd\d4\e9\90\95\e8h\e80\19\d1\89x=\f8\ff\83C\eesD\edS \'\14t\a1\93\97\c6\cc\9c\cf\f1\8f\03\f1\0fM\1f\10R\02\b9%\a4Ga\7f\1c\b3\05\e8\7f\ae\cb\19\0f5\c7\b7\e9\d2M\cc\16\\\d1\ec\ff\f1\a2\14\d9\90\d2_!\0f\0b=\12\b0\da#3[\82\10\c1\e7P\99hK\abaP\b3*\06\85+j\1ag\b9@\14\ba\a2\"N@\\Ukj\bc!\15S\94\00\dd\94\e8N\0b\cdID\bc\ee\c9\e7\10Q\ed\00\c8\87\da\17\12H\a9\d3\c6Jv\0c\1b\da\bd\00\a0lHF\dbl\87\dck\d5\91\a3\15\afd\cdL\bd\06\05I\8a\9f\e3\ef\dd\a7O\11\b1:\e2z\c8\n\08\a8C\ff8\e6/\a6\b2\1b\f4.\e8\fb9\a29Si\ff\93\1e\f3\84(\16]\f2\ec/\fb\b4\c7u\87\ff\0f\b2\f5\03\ba\11.\eaG\e6\91!\d9\"?\ff\7f\b6\"\d3\\\1c\f2T\06\85A\81z\b5e\ff\ff\91\e8\a8\b0\16\f5C87\01\01b\c4\b723\db\86\ed&\12\ee\9f\f3\f1\01h6:Y\84\eb\91\a4\15\0b\1d\8b\19\f6\'\9b\b9^\fb\e0i\bctP\11<\17\d6z^\86\e2\fa~/\e7\87c]@t\96\12V\91\fd\d6\d0\f7\97\e5q\d98b\cd\86\bd\1d\ab\da\cax\0d\93y\84\c1z-\e8=\d2\ca\17V\15o-qBa\d0\9a\c8\8a\861\a8\08\13\"\"\18\afNjhM\91\da\aa=O@t\1e\e8\b4y\f2>\88S\a4\da\ae\88d?\00]\18\87]a(\ffl\dc\e9\aeXmP\cc\99}\13\a4\95h\0de\ae`\a9\e4\8dH\1az\\/\1f\83D\ed=\b7\be\b3\ba\83q\a0\aea\b0\f2\186\9d\8a1,2\f6.6\c1\e6\be\e7Y\f5\13\f0aw\82\13\1d\bd\e4\89\9b\d7\97?\f6\ee\1fZN,5\a9}\ca\83\a1\af\df\df2\f8\8b\19\15\a5V\f7 \fe\a1\9c\e7\f2\b2L\c2\f9o\14\aa\1d\12\f9\b31\1bJ\b9(\8fp\9b\94Y\10\dd\95\b6\c1\ec\b5^C\f5\0d\e5\80\c5\ed(\1aJ\de^\01W^\e55\c4\a4\1dg\04\8b\ed\14\d5\b1\18\01\ac~\b7\c4i\1d~R\d0\08\be\10\"\b6Z\9by\97%\a1\0f/0\b7\b3\a7\c9\1a\81^\15Ia\ac\b7M\d9X\f3\f8\c2\1fn\15\9bKD\07\81#\c6\d7\ad\e0\f5\935\e6$\11+\ac\d3>\9b\05=YI4V\86\"=n\1b\bc\89\dc\cb\15\9e\fd\e0m\c3\11\05\82\ca\f1\15c\a1\e3o\11\18\fe\b3$iA7\9b;\8e\11\d1\9b\d2\7f\b5Yc\86\07u5%\c5\c5\16\1c\0e\e3\0e3\91\14\e9\d1\d2\90\f7P7\9ex\16\0b\1c?\8f\dav\batu\0d\c6@,\18\fa\11x\c61\e5\90$\f7\ed\bbH\a3g\e0Y\c3\1c-\05[\b7@\1d,\8b\c9\d3\b5\1fM\ae\02\17$\04|_\cd}Vo\d4\0f+\e6p\8bh\12\06m\c6\98H\c9\f0~\ed\b2\11=N\12t\1d\9f\bd\9e\e0\06\a1\c0\98W\c2\a7\fd\a4\0e\90\17\e6\caKM\d2\80\00Gy\9b\ec\caP\a5\d9\12\a2DyH\1d\ce\00\d8\8e\c5\adD\81\08)\1e\82\d0-m\17\d83\13?\d1W\9d\9a\d3 \18\ce\a6$$yF\f6\a8e\a7\acJ\15vM\13}\a4:\a0\8e=\bdto\a5zw\88V\e2\1edP\95\e6>1d]\8c\b7\fb\c5\06\12\b5\18\b7\a6\aa\eb\cb\8d\b6Jp,\96\d1k\0e\c4\13W\a4\aa\12\13\16$\11\1aG\f0\e8\12\17\a0\1f\df\e9\ee\0e\dcD\83\da\14l\f3SB\dfL\19\80!\bf\d8|\9d\02\e2C#)Ch\7f=\143\812z\fd}hN6\1cT\cf\b921\10\b8\ceP\90\95\c9@J\bd\c6\b9K)Q\e8\19\c6\0b\a7\a6w\d43\081\d2\c7o\87\da\b9\14k\t\ec\1e\c6v)\a0\8d\0e\d3\bf\d2\ae\94\10\df\db\acd\a3WB\00I\17\b8\ff\1d~\87\1a\19\e3#\ea\b5\df\01\cd\a0\12`\99\b119\15\ae\b5\1c\88\91L\cepMu\e6\ad\'\8e\fa\10\e2U\94\a6\b5\ad\e3\1a\af\bbpI\0c}*\1b\e8wC\85\c4W\e9{\f2b\8d\07=\97\bb\15\87\f95\04jy\87\c9\8e\b5\n\06d\dfb\11q\c2\bc\06\10\8f\a5u\e4\88w\d6le\d1\1b\'5\cak\a6\a5\b7\f7\e9\d3\92\ab\f0\1dA\16\1f\c4\a1\bc\1e\1e\c6_\ee\0f\0fV\8d\b1\cd\11e\d3\02adc\a3\ff\16\b3\b1\89HO|\1cQ\dc\9bMP\1c\e92\df(\8e\d4\06\d9\c9\16\0e}Iqs\e3 \8f\b2 \d8v\05\14;\12|.\0f\82\85\05\9b~\ea\cdY\f1;S+\1d\ca\be\a5\01\9e7\af\cb\ee\d7G\f4/\dcU\17\a1\98\844K\f9X\t\bf\acl\c3\8c\16\ab\12")
+ (data (i32.const 11024) "\10\0b\00\00\ac\02")
+ (data (i32.const 11032) "`\14")
+ (data (i32.const 11055) "\10")
+ (data (i32.const 11071) "\14")
+ (data (i32.const 11087) "\19")
+ (data (i32.const 11102) "@\1f")
+ (data (i32.const 11118) "\88\13")
+ (data (i32.const 11134) "j\18")
+ (data (i32.const 11149) "\80\84\1e")
+ (data (i32.const 11165) "\d0\12\13")
+ (data (i32.const 11181) "\84\d7\17")
+ (data (i32.const 11197) "e\cd\1d")
+ (data (i32.const 11212) " _\a0\12")
+ (data (i32.const 11228) "\e8vH\17")
+ (data (i32.const 11244) "\a2\94\1a\1d")
+ (data (i32.const 11259) "@\e5\9c0\12")
+ (data (i32.const 11275) "\90\1e\c4\bc\16")
+ (data (i32.const 11291) "4&\f5k\1c")
+ (data (i32.const 11306) "\80\e07y\c3\11")
+ (data (i32.const 11322) "\a0\d8\85W4\16")
+ (data (i32.const 11338) "\c8Ngm\c1\1b")
+ (data (i32.const 11354) "=\91`\e4X\11")
+ (data (i32.const 11369) "@\8c\b5x\1d\af\15")
+ (data (i32.const 11385) "P\ef\e2\d6\e4\1a\1b")
+ (data (i32.const 11401) "\92\d5M\06\cf\f0\10")
+ (data (i32.const 11416) "\80\f6J\e1\c7\02-\15")
+ (data (i32.const 11432) " \b4\9d\d9yCx\1a")
+ (data (i32.const 11448) "\94\90\02(,*\8b\10")
+ (data (i32.const 11464) "\b94\032\b7\f4\ad\14\00\00\00\00\00\00\00@\e7\01\84\fe\e4q\d9\19\00\00\00\00\00\00\00\880\81\12\1f/\e7\'\10\00\00\00\00\00\00\00\aa|!\d7\e6\fa\e01\14\00\00\00\00\00\00\80\d4\db\e9\8c\a09Y>\19\00\00\00\00\00\00\a0\c9R$\b0\08\88\ef\8d\1f\00\00\00\00\00\00\04\be\b3\16n\05\b5\b5\b8\13\00\00\00\00\00\00\85\ad`\9c\c9F\"\e3\a6\18\00\00\00\00\00@\e6\d8x\03|\d8\ea\9b\d0\1e\00\00\00\00\00\e8\8f\87+\82M\c7raB\13\00\00\00\00\00\e2si\b6\e2 y\cf\f9\12\18\00\00\00\00\80\da\d0\03d\1biWC\b8\17\1e\00\00\00\00\90\88b\82\1e\b1\a1\16*\d3\ce\12\00\00\00\00\b4*\fb\"f\1dJ\9c\f4\87\82\17\00\00\00\00a\f5\b9\ab\bf\a4\\\c3\f1)c\1d\00\00\00\a0\\9T\cb\f7\e6\19\1a7\fa]\12\00\00\00\c8\b3G)\be\b5`\a0\e0\c4x\f5\16\00\00\00\ba\a0\99\b3-\e3x\c8\18\f6\d6\b2\1c\00\00@t\04@\90\fc\8dK}\cfY\c6\ef\11\00\00P\91\05P\b4{q\9e\\C\f0\b7k\16\00\00\a4\f5\06d\a1\da\0d\c63T\ec\a5\06\1c\00\80\86Y\84\de\a4\a8\c8[\a0\b4\b3\'\84\11\00 \e8o%\16\ce\d2\bar\c8\a1\a01\e5\15\00(\e2\cb\ae\9b\81\87i\8f:\ca\08~^\1b\00Ym?M\01\b1\f4\a1\99d~\c5\0e\1b\11@\afH\8f\a0A\ddq\n\c0\fd\ddv\d2a\15\10\db\1a\b3\08\92T\0e\0d0}\95\14G\ba\1a\ea\c8\f0oE\db\f4(\08>n\ddll\b4\10$\fb\ec\cb\16\1223\8a\cd\c9\14\88\87\e1\14\ed9\e8~\9c\96\fe\bf\ec@\fc\19j\e9\19\1a4$Q\cf!\1e\ff\f7\93\a8=P\e21P\10Am%C\aa\e5\fe\f5\b8\12M\e4Z>d\14\92\c8\ee\d3\14\9f~3gW`\9d\f1M}\19\b6z\ea\08\daF^\00Am\b8\04n\a1\dc\1f\b2\8c\92EH\ec:\a0HD\f3\c2\e4\e4\e9\13\de/\f7VZ\a7I\c8Z\15\b0\f3\1d^\e4\18\d6\fb\b4\ec0\11\\z\b1\1a\9cp\a5u\1d\1fe\1d\f1\93\be\8ay\ec\ae\90af\87ir\13\bfd\ed8n\ed\97\a7\da\f4\f9?\e9\03O\18\ef\bd(\c7\c9\e8}Q\11r\f8\8f\e3\c4b\1e\b5vy\1c~\b1\ee\d2JG\fb9\0e\bb\fd\12b\d4\97\a3\dd]\aa\87\1d\19z\c8\d1)\bd\17{\c9}\0cU\f5\94\e9d\9f\98:Ft\ac\1d\ed\9d\ce\'U\19\fd\11\9fc\9f\e4\ab\c8\8b\12hE\c2q\aa_|\d6\86<\c7\dd\d6\ba.\17\c2\d62\0e\95w\1b\8c\a8\0b9\95\8ci\fa\1c9\c6\df(\bd*\91WI\a7C\dd\f7\81\1c\12\c8\b7\17sluu\ad\1b\91\94\d4u\a2\a3\16\ba\a5\dd\8f\c7\d2\d2\98b\b5\b9I\13\8bL\1c\94\87\ea\b9\bc\c3\83\9f]\11\14\0e\ec\d6\af\11y)e\e8\ab\b4d\07\b5\15\99\11\a7\cc\1b\16\d7s~\e2\d6\e1=I\"[\ff\d5\d0\bf\a2\1bf\08\8fM&\ad\c6m\f5\98\bf\85\e2\b7E\11\80\ca\f2\e0oX8\c92\7f/\'\db%\97\15 }/\d9\8bn\86{\ff^\fb\f0Q\ef\fc\1a4\ae\bdg\17\054\ad_\1b\9d6\93\15\de\10\c1\19\adA]\06\81\987bD\04\f8\9a\15\152`\18\92\f4G\a1~\c5zU\05\b6\01[\1a\1f<O\db\f8\cc$o\bblU\c3\11\e1x\10\'\0b#\127\00\eeJ\ea\c7*4V\19\97\14\f0\cd\ab\d6D\80\a9\dd\e4y5\c1\ab\df\bc\19\b6`+\06+\f0\89\n/l\c1X\cb\0b\16\10\e48\b6\c75l,\cd:\c7\f1.\be\8e\1b\14\1d\c7\a39C\87w\80\t9\ae\bamr\"\19\e4\b8\0c\08\14i\95\e0K\c7Y)\t\0fk\1f\8e\f3\07\85\aca]l\8f\1c\d8\b9e\e9\a2\13r\f0I\a6\17\batG\b3#N(\bf\a3\8b\18\8fl\dc\8f\9d\e8Q\19\a0\aca\f2\ae\8c\ae\1e\d9\c3\e9yb1\d3\0f\e4\0b}W\ed\17-\13\cf4d\18\bb\fd\c7\13\ddN\\\ad\e8]\f8\17\03B}\de)\fd\b9X\94b\b3\d8bu\f6\1dBI\0e+:>t\b7\9c\1dp\c7]\t\ba\12\92\db\d1\b5\c8MQ\e5\03%L9\b5\8bh\17wRF\e3:\a1\a5\deD.\9f\87\a2\aeB\1d\8a\f3\0b\ce\c4\84\'\0b\eb|\c3\94%\adI\12m\f0\8e\01\f6e\f1\cd%\\\f4\f9n\18\dc\16\88\ac\f2\81s\bfmA/sq\b8\8a\1e\93\1c\d5\ab71\a8\97\e4\88\fd\e7F\b3\16\f3\db\11\ca\96\85=\92\bd\1d\eb\fc\a1\18`\dc\efR\16}\fc\e6\cc\f6,\e5%|\ca\1ex\d3\ab\e7\1b\ce]\10@\1a<\af\97\8d>\13+d\cbp\11Bu\14\d0 \0b\9b\fd0\0e\d85=\fe\cc\15\92\92\19\04\e9\cd\01=\bd\11N\83\cc=@\1b\9b\fb\8f\a2\b1 !F\16\cb\10\d2\9f&\08\11\82\fa3\0b\deh\a9\d7\db\fd\94\c6G0J\15#\f9\00\8e\15\c3\93\cdR=:\b8Y\bc\9c\1a\b6\9b\c0x\edY|\c0Sf$\13\b8\f5\a1\10\a3\c2\f0\d6hp\9b\b0\e8\7f\ed\17&s\ca\14L\f3\ac\0c\83L\c2\dc\e2\df\e8\9d\ef\0f\fd\19\0f\18\ec\e7\d1o\f9\c9\ed\8b\b1\c2\f5)>\10\13\1e\e7a\c6\cbw<\e9\ee]3s\b4M\14\98\e5`\fa\b7\be\95\8b\a3j5\00\90!a\19\fe\1e\f9\f8e.{nL\c5B\00\f4i\b9\1f_\b3\9b\bb\ff\fc\0c\c5O\bb)\808\e2\d3\137\a0\82\aa?<P\b6#*4\a0\c6\da\c8\18DH#\95OK\e4\a3\ac4AHx\11\fb\1e+\0d6\bd\11\afn\e6\eb\c0(-\eb\ea\\\13u\90\83,\d6Z\n\e0&\f1r\f8\a5%4\18\93t\a4\b7\8b\f1\0c\98p\ad\8fv\0f/A\1e\dc\c8\c6R\f7\16\08_f\cc\19\aai\bd\e8\12\13{x\'\b5\1c\ca\f6\7f?\a0\14\c4\ec\a2\17\d7\99Vq\e2\a3|\f4_O\c8\19\f5\a7\8b\1d& \d6\86m\e6\cd\f8\9b1\1d0\f9Hw\120\a8\8b\e8\08`\01\f7\02~$|7\1b\15\17<\92\ae\"\0b\b8\c1\b4\83\9d-[\05b\da\1ce\1b\ad\f5\06\13\f9Pr\82\fcXC}\08\12?b\18\b3\c8W7\e5\0e\a3;/\94\9c\8a\16\cfz\de\df\ba-\85\9e\d2\8b\n;\b9C-\1c\c1\0c\eb\cb\94<\13\a3c\97\e6\c4SJ\9c\11\f1\cf\e5\fe\b9\0b\d8\8b<= \b6\e8\\\03\16\eeC\9f~\a8\0e\ce\ae\8bL\a8\e3\"4\84\1bu\8a#O)\c9@M\d7/I\ce\95\a02\11\12m\ec\a2s\fb\90 \cd{\dbA\bbH\7f\15V\88\a7\8bP:\b5h\c0ZR\12\ea\1a\df\1a6\b5HWrDqA\b8xsK\d2p\cb\10\83\e2\1a\ed\8e\95\cdQ\e6VP\de\06M\fe\14$\9ba\a8\f2\fa@\e6\9fl\e4\95H\e0=\1a\f7\00=\a9\d7\9c\e8\ef\e3\c3\ae]-\acf\104A\8c\93\0d\c4\e2\eb\dct\1a\b58W\80\14\81Qo\f8\10u\db&\14\12a\e2\06m\a0\19\f1\92E\9b*)I\98L\ab|M$D\04\10\ad\f7\16Bus[\be\1f\d6\db`-U\05\14\98\b5\9c\92RP\f2\ad\a7\cb\12\b9x\aa\06\19\ff\e2C7g\e4n\99\91~W\e7\16UH\1f\dfm\8a\82\c0N\e5\ff\1a\af\96P.5\8d\13W\t-\a3p\a2\de\bf\e1Z\bc\e4y\82p\18\adK\f8\cb\0cK\d6/\9aq\eb]\18\a3\8c\1eL/{\ff\e7\ee\e5]\00\'\b3:\ef\e5\17\13\1f\fbY\ff\a1j_u\c0\f0_\tk\df\dd\17\e7y0\7fJE\b7\92\f0\ec\b7\cbEW\d5\1d0L~\8fN\8b\b2[\16\f4R\9f\8bV\a5\12<\df]3\".\9f\f2\1b\b1\'\87.\acN\17\0bW5\c0\aa\f9F\efb\9d\f1(:W\"\1dgV!\b8\n\\\8c\d5]\02\97Y\84v5\12\01\ac)f\0ds\efJ\f5\c2\fco%\d4\c2\16\01\17\b4\bf\d0O\ab\9d\b2\f3\fb\cb.\89s\1c`\8e\d0w\e2\11\8b\a2Ox}?\bd5\c8\11\f9\b1\c4\15[\d6-\8bc\d6\\\8f,C:\16w\de5\db\f1K\f9m\fc\0b4\b3\f7\d3\c8\1b\n\ab\01)w\cf\bb\c4}\87\00\d0z\84]\11\cd\15B\f3T\c3\ea5]\a9\00\84\99\e5\b4\15@\9b\120*te\83\b4\d3\00\e5\ff\1e\"\1b\08\a1\0b^\9ah\1f\d2P\84 \ef_S\f5\10J\89\8e\f5\c0B\a7\06e\a5\e8\ea7\a82\15\9d+\f22q\13QH\be\ce\a2\e5ER\7f\1aB[\d7\bf&\ac2\ed6\c1\85\afk\93\8f\10\122\cdo0W\7f\a8\841g\9bFx\b3\14\97~\c0\8b\fc,\9f\d2\e5\fd@BXV\e0\19\1eOX\d7\1d|\a3\a3\af\9eh)\f75,\10\e6b.M%[\8c\8c[\c6\c2\f3tC7\14\9f\fby\a0\eeq\afo\f2w\b30R\14E\19\87z\98HjN\9b\0b\efU\e0\bcfY\96\1f\94L_m\02\11Ag\b55\0c6\e0\f7\bd\13\ba\1f\b7\08CU\11\c1\"C\8fC\d8u\ad\18\a8\e7\e4\ca\93\aaUq\eb\13sTN\d3\d8\1e\c9\10\cf^\9c\8a\d5&s\ec\c7\f4\10\84G\13\fb\d4\82vC\ed\8a\f0\8f\e7\f91\15e\19\18:\8a#T\94\a8\ad\ecsax~Z\be\1f\1ed6\96\b4\\\89\ecs\e8<\0b\8f\f8\d6\d3\12\fd\c3\bb\e1\b3\ab\e7\90\"\0c\ce\b2\b6\cc\88\17\fd\b4*\da\a0\96!5+\8f\81_\e4\ffj\1d\1e\b1Z\88$\fe4\01{\f9\b0\bb\ee\dfb\12e]q\aa\ad=\82\c1\d97\9dj\ea\97\fb\16\bf\b4\0d\15\19\cd\e21\d0\85D\05\e5}\ba\1c\f7\90(\ad/\c0-\1f\a2\d3J#\af\8e\f4\115\b5r\98;0\f9\a6\8a\88\1d\ecZ\b2q\16\82b\8f~J|\b7P\ad\ea$\a7\f1\1e\0e\1c\91\9d\19\8f\ae\adrR\ac\12w\08W\d3\88\11\f6\04\e02\1aY\0fgW\d7\94\ca,\08\eb\153\06\98\bf`/\d3@-\0d:\fd7\cae\1b\e0\03\bfw\9c\fd\83H<HD\feb\9e\1f\11\d8\c4\ae\95\03\fd\a4ZKZ\d5\bd\fb\85g\15\0ev\1a{D<N1\de\b0J\adzg\c1\1a\c9\89\f0\cc\aa\e5\d0\de\8a\aeN\ac\ac\e0\b8\10;\ac,\80\15\1f\85\96-Zb\d7\d7\18\e7\14J\d77\e0\daf&\fc\b8\f0:\cd\0d\df \1a\8e\e6\"\ccH\00\98\9ds\d6D\a0h\8bT\102\a0+\ffZ\00\fe\84\10\0cV\c8B\aei\14>\88\f6\beq\80=\a6\14\8fkz\d3\19\84\19N*\b4.\8e\e0\cc\cf\d9r\06YH \e5\1fp\9a0\ddX\0c\e0!\c8\07\a47-4\ef\13\0d\c1|\14o\0fX*\ba\t\8d\858\01\eb\18P\f1\9b\d9J\13\ee\b4(L\f0\a6\86\c1%\1f\d2v\01\c8\0e\cc\14q\99/V(\f4\98w\13\86\d4\01z\12\ffY\cd\7f\bbk21\7fU\18\a8I\82\18\d7~\b0\c0_\aa\06\7f\fd\dej\1e\tnQoFOn\d8{*do^\cb\02\13\8b\c9%\0b\18\e3\89\ce\1a5=\0b6~\c3\17\ee;\ef\0d\de[,\82a\82\0c\8e\c3]\b4\1du\85\b5\c8j\b9[\f1|\d1\c78\9a\ba\90\12\d2\e6\e2z\c5\a7\b2-\dc\c5\f9\c6@\e94\17\86\a0\9b\d9\b6Q\1f9S7\b8\f8\90#\02\1dTD\01H\12\93\b3\03\94\"s\9b:V!\12i\95\01\da\d6w\a0\049\ebOB\c9\ab\a9\16\c3\fa\81\90\cc\95\c8E\07\e6\e3\92\bb\16T\1c\ba<Q\da\9f]\9d\8b\c4o\ce;5\8e\b4\11\e8\8b\e5\d0\07\b5\84\ae\b5\0b\c2\8a\c2\b1!\16\e3\ee\1e\c5I\e2%\1a\a3\8er-3\1e\aa\1bMU3\1bn\adW\f0%\99g\fc\dfRJ\11\a1*\00\a2\c9\98mlo\7f\81\fb\97\e7\9c\15I5\80\n\fc\fe\88GK\dfa\fa}!\04\1bN!\90\86]\9f\b5\0c\8f+}\bc\ee\94\e2\10\a1)4\e84\07\e3\cfrv\9ck*:\1b\15\n4A\"\02\c9\db\83\0f\94\83\06\b5\08b\1a\86\c0hU\a1]i\b2\89<\12$qE}\10\a7\f0\c2\aa\t\b5\03\1f\ac\cb\16m\cd\96\9c\14\d1\acs\15L\a2\c4&\97~\\\c8\80\bc\c3\19\03Lh\8do\e5:x\1e\cf9}\d0U\1a\10\03_\c2p\cb\9eI\16\e6B\88\9cD\eb \14\c4\f6\f2L~\06\dc\9b\9fS\aa\c3\15&)\19v\b4/\e0\1d\08\d3\82\87\e8\944\9bos\1f\c9\d0\1d\ac\12\e5\c3\b1T\11\dd\00\c1%\a8\13\fcD%WW\de4\de\a9U\14A1/\92\18;\96\ee,\ed\15\c2U\14kY\91\fd\ba\b6\1e\e5\1d\15<\b4M\99\b5\ec\e2\d7z\de42\13^e\1aK!\a1\ff\e2\a7\db\8d\19\16\c2\fe\17\b6\fe\e0\9di\89\bf\db\91R\f1\9f\9br\fe\1d1\9f\ac\02\e2\b5W)\9b\d3\f6C\a1\07\bf\12\fe\c6W\83Z\a3\ad\f3\81\88\f4\94\89\c9n\17\bd\b8-$1\0c\99p\a2\aa1\fa\eb{J\1dv\93\9c\b6\9e\a7_\86\a5\n_|s\8dN\12T\b8Cd\86\91\f7\e7N\cdv[\d00\e2\16i\a6T\fd\e7u\f5\a1\a2\80Tr\04\bd\9a\1c\01\e8T\fe\b0i9\a5e\d0t\c7\"\b6\e0\11\02\"\ea=\1d\c4\87\0e\7f\04Ry\ab\e3X\16\82\aad\8d$\b5)\d2\9e\85\a6W\96\1c\ef\1b\91\ea^\d86\11ZC\83\13\c8\f6\ddqu\116\a5v\8e\84\950\14d\18ztU\ce\d2\15\83N\14\b2\e5\ba<\19}\9e\98\d1\ea\81G\1b\12\b1L\8f\cf\f4\c5/\0ec\ff\c22\b1\0c\11V\dd\1fs\03r\b7\bb\d1;\bfs\7f\ddO\15\ac\d4\e7O\84N\a5*\c6\n\afP\df\d4\a3\1a\eb\e4\f0\b1\12Q\a7\da\bbfm\92\0be\a6\10&\1em^W%Q\d1j\c0\08wN\fe\cf\14\b0e\086\adn\a5\85\85\f0\ca\14\e2\fd\03\1a\8e?\c5A,e\87sS\d6\feL\ad~B\10q\8f6Rw>iP\e8\8b>\a0X\1eS\14N3\c4&\15\8e\83d\e2.N\c8\ee\e5g\19\"@up\9aq\a4\fd\9a\baazj\df\c1\1f\15HI\86\00\c7\86\de\a0\14}\8c\a2+\d9\13\1a\9a\db\a7\c0x(\16\c9Y\9c/\8bv\cf\18\a1\80\d2\d1\f0\96\b2[;p\83\fb-T\03\1fd\90#\83V\9eO\19%&2\bd\9c\14b\13~t\ec#\ec\85\a3_\ae\af~\ec\c3\99:\18\9d\91\e7,gg\8c\f7\99[\9e\e74@I\1e\02\bb\10|\a0\c0\b7:@\f9\c2\10!\c8\ed\12\c3\e9\14\9b\c8\b0eI\90\b7\f3T):\a9\173$\da\c1\fa\1c\bf[t\a50\aa\b3\88\93\1d\a0V(\b9\1crW\b9hg^Jp5|\12Hlr\e7\a3N\ad\e7B\01\f6\\\ccB\1b\17Z\07O\e1L\a2\98\a1\93\813t\7f\13\e2\1c\98d\d1\0cpe\ffD\fc0\a0\a8/L\0d\12\be\bd\05\10\cc>?V;=\c8\92;\9f\90\16.-\07\14\7f\0e\cf+\8aLzw\n\c74\1c=|\84l\0fia[\d6o\ac\8af\fc\a0\11L\9b\a5GS\c39\f2\cb\8bW-\80;\t\16\1f\02\8f\19(4\c8\ee\ben\ad8`\8a\8b\1bSa\f9\0f\99 =U7el#|67\11\a8\b9\f7S\bfh\8c*\85~G,\1b\04\85\15\12\a8\f5(\ef\82/u&^Y\f7!E\e6\1a\0b\89\99y\d5\b1=\t\d8\da\97:5\eb\cf\10N\eb\ff\d7J\1e\8d\0b\8e\d1=\89\02\e6\03\15\"\e6\ff\8d\ddep\8e\f1E\8d+\83\dfD\1a\d5\ef\bfx\aa?\06\f9\b6K8\fb\b1\0bk\10\ca\eb\ef\16\95\cfG\b7\a4^\06z\9e\ce\85\14\bd\e6\ab\\z\c3\19\e5M\f6\87\18FB\a7\196p\eby,\1a0\af\f0\f9T\cfk\89\08\10CLf\98\b7 \fc\dal8*\c3\c6\ab\n\14T\df\7f~\e5(\bb\11\88\c6\f4s\b8V\0d\19*\d7\1f\de\1e\f3)\16*\f8\f1\90f\acP\1fz\e6\d3J\f37\daM\1a;\97\1a\c0k\92\13\19\e0\88\1d\f0\c5P\e1\e0\t=!\b0\06w\18\1f\18\eb$l\f7\a4\19YL\8c)\\\c8\94\1e\13\ef\12\97\a3\1a\07\b0\b7\af\f7\999\fd\1c\13\d8\aa\d7|L\e1\08\9c\a5\9bu\00\88<\e4\17\8e\95\0d\9c\9f\19\0b\03\8f\02\93\00\aaK\dd\1dy}\88\c1\03\f0\e6a\99\e1[@JO\aa\12\d7\9c\ea\b1\04\ac`\ba\ff\d9r\d0\1c\e3T\17\0dDe\de\05\d7\f8\a8\7f\90\8f\04\e4\1b*\1d\88J\ff\aac\86\9b\c9O\ba\d9\82nQ:\12*\1d\bf\95\fcg\02\bc\e3(\90#\ca\e5\c8\16t\e4.\bb\fb\01\03\ab\1c3t\ac<\1f{\1c\c9N\fdT=\e1\e1\ea\f1\9f\c8\eb\85\f3\cc\11{\a2<\aa\8cY\9ae\ee\c7\bafg0@\16\1a\cb\cb\d4\ef\ef\00\ff\e9yi@\81<\d0\1b\f0^\ff\e4\f5\95`?2\ecA\c8\d0%b\11\ac6?^s\bb8\cf>gR\faD\af\ba\15W\04\cf5P\ea\06\83\0e\01\e78\16[)\1b\b6b\a1!rR\e4\11\a9`\90\e3\ed\d8\f9\10d\bb\t\aa\0eg]V\d3xt\\)O8\15=*\8cT\d2\c0\f4+\08\97\91\b3\f3b\86\1af\9a\d7t\83\f8x\1be\fe:P\d8\fd\93\10\00\81\0dR\a46Wb\fe\bdIdN\fd\b8\14@\e1\90fM\04\ed\fa}-\\\fd\a1<\e7\19\c8\8c\1a`\b0\"\d4\bcn\9cY>\e5\850\10\fa/!x\\+\tl\8a\03\f0\8d^\a7<\14\f8{)\963v\0b\07m\04l16\d1K\19\f6\da\b3{\c0S\ceH\88\05\c7\bd\83\c5\9e\1f\dahPMX\f4\80-uc\9cVr;\c3\13\10\83\a4`n1\e1xR|C\ecN\n\b4\18")
+ (data (i32.const 19224) "\18+\00\00\8c\02")
+ (data (i32.const 19232) "\18")
+ (data (i32.const 19246) "\e0?\00\00\00\00\00\00\f0\bf\00\00\00\00\00\00\f8\7f")
+ (data (i32.const 19264) " K\00\00\03")
+ (data (i32.const 19272) "\n\00\00\000\00.\005\00|\00-\001\00|\00N\00a\00N")
+ (data (i32.const 19296) "\01\00\00\00c")
+ (data (i32.const 19304) "\0c")
+ (data (i32.const 19313) "\06\00\00\00\00\00\00`K")
+ (data (i32.const 19336) "hK\00\00\03")
+ (data (i32.const 19344) "\0c")
+ (data (i32.const 19353) "\06\00\00\00\00\00\00`K")
+ (data (i32.const 19376) "\90K\00\00\03")
+ (data (i32.const 19384) "\02\00\00\00a\00c")
+ (data (i32.const 19392) "\08\00\00\00\00\00\00\00\01\00\00\00\02")
+ (data (i32.const 19408) "\c0K\00\00\02")
+ (data (i32.const 19416) "\08\00\00\00\00\00\00\00\01\00\00\00\02")
+ (data (i32.const 19432) "\d8K\00\00\02")
+ (data (i32.const 19440) "\03\00\00\001\00,\002")
+ (data (i32.const 19456) "\08\00\00\00\00\00\00\00\01\00\00\00\02")
+ (data (i32.const 19473) "L\00\00\02")
+ (data (i32.const 19480) "\04\00\00\00\00\00\00\00\03")
+ (data (i32.const 19496) "\18L\00\00\01")
+ (data (i32.const 19504) "\0c\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03")
+ (data (i32.const 19536) "0L\00\00\03")
+ (data (i32.const 19544) "\04")
+ (data (i32.const 19553) "\06")
+ (data (i32.const 19560) "XL\00\00\01")
+ (data (i32.const 19568) "\08\00\00\00\00\00\00\00\08\06\00\00`K")
+ (data (i32.const 19584) "pL\00\00\02")
+ (data (i32.const 19592) "\05\00\00\00a\00,\00b\00,\00c")
+ (data (i32.const 19608) "\14\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03\00\00\00\04\00\00\00\05")
+ (data (i32.const 19640) "\98L\00\00\05")
+ (data (i32.const 19648) "\14\00\00\00\00\00\00\00\01")
+ (data (i32.const 19672) "\05")
+ (data (i32.const 19680) "\c0L\00\00\05")
+ (data (i32.const 19688) "\14\00\00\00\00\00\00\00\t\00\00\00\t\00\00\00\t\00\00\00\t\00\00\00\t")
+ (data (i32.const 19720) "\e8L\00\00\05")
+ (data (i32.const 19728) "\04\00\00\00\00\00\00\00\01\02\03\04")
+ (data (i32.const 19744) "\10M\00\00\04")
+ (data (i32.const 19752) "\04\00\00\00\00\00\00\00\01\02\07\07")
+ (data (i32.const 19768) "(M\00\00\04")
+ (data (i32.const 19776) "\01\00\00\00x")
+ (data (i32.const 19784) "\05\00\00\00x\00,\00x\00,\00x")
+ (data (i32.const 19800) "\10\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03\00\00\00\04")
+ (data (i32.const 19832) "XM\00\00\04")
+ (data (i32.const 19840) "8")
+ (data (i32.const 19848) "9")
+ (data (i32.const 19856) "\02\00\00\00b\00b")
+ (data (i32.const 19864) "\03\00\00\00c\00c\00c")
+ (data (i32.const 19880) "\0c")
+ (data (i32.const 19889) "\06\00\00\90M\00\00\98M")
+ (data (i32.const 19912) "\a8M\00\00\03")
+ (data (i32.const 19920) ":")
+ (data (i32.const 19928) ";")
+ (data (i32.const 19936) "<")
+ (data (i32.const 19944) "\14\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03\00\00\00\04\00\00\00\05")
+ (data (i32.const 19976) "\e8M\00\00\05")
+ (data (i32.const 19984) "\14\00\00\00\00\00\00\00\04\00\00\00\05\00\00\00\03\00\00\00\04\00\00\00\05")
+ (data (i32.const 20016) "\10N\00\00\05")
+ (data (i32.const 20024) "\14\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03\00\00\00\04\00\00\00\05")
+ (data (i32.const 20056) "8N\00\00\05")
+ (data (i32.const 20064) "\14\00\00\00\00\00\00\00\01\00\00\00\01\00\00\00\02\00\00\00\03\00\00\00\05")
+ (data (i32.const 20096) "`N\00\00\05")
+ (data (i32.const 20104) "\14\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03\00\00\00\04\00\00\00\05")
+ (data (i32.const 20136) "\88N\00\00\05")
+ (data (i32.const 20144) "\14\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03\00\00\00\03\00\00\00\04")
+ (data (i32.const 20176) "\b0N\00\00\05")
+ (data (i32.const 20184) "\08\00\00\00\00\00\00\00\01\00\00\00\02")
+ (data (i32.const 20200) "\d8N\00\00\02")
+ (data (i32.const 20216) "\f0N")
+ (data (i32.const 20224) "\04\00\00\00\00\00\00\00\03")
+ (data (i32.const 20241) "O\00\00\01")
+ (data (i32.const 20248) "\0c\00\00\00\00\00\00\00\e8N\00\00\f8N\00\00\10O")
+ (data (i32.const 20280) "\18O\00\00\03")
+ (data (i32.const 20288) "\0c\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03")
+ (data (i32.const 20320) "@O\00\00\03")
+ (data (i32.const 20328) "\08\00\00\00\00\00\00\00\01\00\00\00\02")
+ (data (i32.const 20344) "hO\00\00\02")
+ (data (i32.const 20352) "=")
+ (data (i32.const 20360) "\10\00\00\00\00\00\00\00\01\00\00\00\n\00\00\00\02\00\00\00\14")
+ (data (i32.const 20392) "\88O\00\00\04")
+ (data (i32.const 20400) "\14\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03\00\00\00\04\00\00\00\05")
+ (data (i32.const 20432) "\b0O\00\00\05")
+ (data (i32.const 20440) "\08\00\00\00\00\00\00\00\02\00\00\00\03")
+ (data (i32.const 20456) "\d8O\00\00\02")
+ (data (i32.const 20464) "\0c\00\00\00\00\00\00\00\01\00\00\00\04\00\00\00\05")
+ (data (i32.const 20496) "\f0O\00\00\03")
+ (data (i32.const 20504) "\04\00\00\00\00\00\00\00\05")
+ (data (i32.const 20520) "\18P\00\00\01")
+ (data (i32.const 20528) "\08\00\00\00\00\00\00\00\01\00\00\00\04")
+ (data (i32.const 20544) "0P\00\00\02")
+ (data (i32.const 20552) "\10")
+ (data (i32.const 20561) "\06\00\00\08\06\00\00\00\00\00\00\00\06")
+ (data (i32.const 20584) "HP\00\00\04")
+ (data (i32.const 20592) "\0c\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03")
+ (data (i32.const 20624) "pP\00\00\03")
+ (data (i32.const 20632) "\0c\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03")
+ (data (i32.const 20664) "\98P\00\00\03")
  (export "memory" (memory $0))
  (export "table" (table $0))
  (start $start)
@@ -256,31 +493,32 @@
    (get_local $0)
   )
  )
- (func $~lib/internal/memory/memset (; 6 ;) (; has Stack IR ;) (type $FUNCSIG$vii) (param $0 i32) (param $1 i32)
-  (local $2 i32)
+ (func $~lib/internal/memory/memset (; 6 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i64)
   (if
    (i32.eqz
-    (get_local $1)
+    (get_local $2)
    )
    (return)
   )
   (i32.store8
    (get_local $0)
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store8
    (i32.sub
     (i32.add
      (get_local $0)
-     (get_local $1)
+     (get_local $2)
     )
     (i32.const 1)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (if
    (i32.le_u
-    (get_local $1)
+    (get_local $2)
     (i32.const 2)
    )
    (return)
@@ -290,37 +528,37 @@
     (get_local $0)
     (i32.const 1)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store8
    (i32.add
     (get_local $0)
     (i32.const 2)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store8
    (i32.sub
-    (tee_local $2
+    (tee_local $3
      (i32.add
       (get_local $0)
-      (get_local $1)
+      (get_local $2)
      )
     )
     (i32.const 2)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store8
    (i32.sub
-    (get_local $2)
+    (get_local $3)
     (i32.const 3)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (if
    (i32.le_u
-    (get_local $1)
+    (get_local $2)
     (i32.const 6)
    )
    (return)
@@ -330,63 +568,74 @@
     (get_local $0)
     (i32.const 3)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store8
    (i32.sub
     (i32.add
      (get_local $0)
-     (get_local $1)
+     (get_local $2)
     )
     (i32.const 4)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (if
    (i32.le_u
-    (get_local $1)
+    (get_local $2)
     (i32.const 8)
    )
    (return)
   )
+  (set_local $2
+   (i32.sub
+    (get_local $2)
+    (tee_local $3
+     (i32.and
+      (i32.sub
+       (i32.const 0)
+       (get_local $0)
+      )
+      (i32.const 3)
+     )
+    )
+   )
+  )
   (i32.store
    (tee_local $0
     (i32.add
      (get_local $0)
-     (tee_local $2
-      (i32.and
-       (i32.sub
-        (i32.const 0)
-        (get_local $0)
-       )
-       (i32.const 3)
-      )
+     (get_local $3)
+    )
+   )
+   (tee_local $1
+    (i32.mul
+     (i32.and
+      (get_local $1)
+      (i32.const 255)
      )
+     (i32.const 16843009)
     )
    )
-   (i32.const 0)
   )
   (i32.store
    (i32.sub
     (i32.add
      (get_local $0)
-     (tee_local $1
+     (tee_local $2
       (i32.and
-       (i32.sub
-        (get_local $1)
-        (get_local $2)
-       )
+       (get_local $2)
        (i32.const -4)
       )
      )
     )
     (i32.const 4)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (if
    (i32.le_u
-    (get_local $1)
+    (get_local $2)
     (i32.const 8)
    )
    (return)
@@ -396,37 +645,37 @@
     (get_local $0)
     (i32.const 4)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
    (i32.add
     (get_local $0)
     (i32.const 8)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
    (i32.sub
-    (tee_local $2
+    (tee_local $3
      (i32.add
       (get_local $0)
-      (get_local $1)
+      (get_local $2)
      )
     )
     (i32.const 12)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
    (i32.sub
-    (get_local $2)
+    (get_local $3)
     (i32.const 8)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (if
    (i32.le_u
-    (get_local $1)
+    (get_local $2)
     (i32.const 24)
    )
    (return)
@@ -436,66 +685,66 @@
     (get_local $0)
     (i32.const 12)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
    (i32.add
     (get_local $0)
     (i32.const 16)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
    (i32.add
     (get_local $0)
     (i32.const 20)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
    (i32.add
     (get_local $0)
     (i32.const 24)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
    (i32.sub
-    (tee_local $2
+    (tee_local $3
      (i32.add
       (get_local $0)
-      (get_local $1)
+      (get_local $2)
      )
     )
     (i32.const 28)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
    (i32.sub
-    (get_local $2)
+    (get_local $3)
     (i32.const 24)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
    (i32.sub
-    (get_local $2)
+    (get_local $3)
     (i32.const 20)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
    (i32.sub
-    (get_local $2)
+    (get_local $3)
     (i32.const 16)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (set_local $0
    (i32.add
     (get_local $0)
-    (tee_local $2
+    (tee_local $3
      (i32.add
       (i32.and
        (get_local $0)
@@ -506,47 +755,60 @@
     )
    )
   )
-  (set_local $1
+  (set_local $2
    (i32.sub
-    (get_local $1)
     (get_local $2)
+    (get_local $3)
+   )
+  )
+  (set_local $4
+   (i64.or
+    (tee_local $4
+     (i64.extend_u/i32
+      (get_local $1)
+     )
+    )
+    (i64.shl
+     (get_local $4)
+     (i64.const 32)
+    )
    )
   )
   (loop $continue|0
    (if
     (i32.ge_u
-     (get_local $1)
+     (get_local $2)
      (i32.const 32)
     )
     (block
      (i64.store
       (get_local $0)
-      (i64.const 0)
+      (get_local $4)
      )
      (i64.store
       (i32.add
        (get_local $0)
        (i32.const 8)
       )
-      (i64.const 0)
+      (get_local $4)
      )
      (i64.store
       (i32.add
        (get_local $0)
        (i32.const 16)
       )
-      (i64.const 0)
+      (get_local $4)
      )
      (i64.store
       (i32.add
        (get_local $0)
        (i32.const 24)
       )
-      (i64.const 0)
+      (get_local $4)
      )
-     (set_local $1
+     (set_local $2
       (i32.sub
-       (get_local $1)
+       (get_local $2)
        (i32.const 32)
       )
      )
@@ -615,6 +877,7 @@
     (get_local $2)
     (i32.const 8)
    )
+   (i32.const 0)
    (get_local $3)
   )
   (get_local $1)
@@ -2358,6 +2621,7 @@
         )
         (get_local $2)
        )
+       (i32.const 0)
        (i32.sub
         (get_local $1)
         (get_local $2)
@@ -2388,6 +2652,7 @@
         )
         (get_local $2)
        )
+       (i32.const 0)
        (i32.sub
         (get_local $1)
         (get_local $2)
@@ -2467,7 +2732,7 @@
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 8)
-       (i32.const 146)
+       (i32.const 193)
        (i32.const 42)
       )
       (unreachable)
@@ -2548,7 +2813,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 158)
+     (i32.const 205)
      (i32.const 20)
     )
     (unreachable)
@@ -2619,7 +2884,7 @@
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 8)
-       (i32.const 248)
+       (i32.const 295)
        (i32.const 42)
       )
       (unreachable)
@@ -2691,7 +2956,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 219)
+     (i32.const 266)
      (i32.const 20)
     )
     (unreachable)
@@ -3003,81 +3268,159 @@
   )
   (i32.const 0)
  )
- (func $~lib/array/Array<i32>#splice (; 20 ;) (; has Stack IR ;) (type $FUNCSIG$vi) (param $0 i32)
-  (local $1 i32)
-  (local $2 i32)
-  (if
-   (i32.ge_s
-    (i32.const 1)
+ (func $~lib/array/Array<i32>#splice (; 20 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $5
+   (call $~lib/array/Array<i32>#constructor
     (tee_local $2
-     (i32.load offset=4
-      (get_local $0)
-     )
-    )
-   )
-   (return)
-  )
-  (call $~lib/internal/memory/memmove
-   (i32.add
-    (tee_local $1
-     (i32.add
-      (i32.load
-       (get_local $0)
-      )
-      (i32.const 8)
-     )
-    )
-    (i32.const 4)
-   )
-   (i32.add
-    (get_local $1)
-    (i32.shl
-     (i32.add
-      (tee_local $1
+     (select
+      (tee_local $3
        (select
-        (i32.const 1)
-        (tee_local $1
+        (get_local $2)
+        (tee_local $3
          (i32.sub
-          (get_local $2)
-          (i32.const 1)
+          (tee_local $4
+           (i32.load offset=4
+            (get_local $0)
+           )
+          )
+          (tee_local $1
+           (if (result i32)
+            (i32.lt_s
+             (get_local $1)
+             (i32.const 0)
+            )
+            (select
+             (tee_local $3
+              (i32.add
+               (get_local $4)
+               (get_local $1)
+              )
+             )
+             (i32.const 0)
+             (i32.gt_s
+              (get_local $3)
+              (i32.const 0)
+             )
+            )
+            (select
+             (tee_local $3
+              (get_local $1)
+             )
+             (get_local $4)
+             (i32.lt_s
+              (get_local $1)
+              (get_local $4)
+             )
+            )
+           )
+          )
          )
         )
         (i32.lt_s
-         (i32.const 1)
-         (get_local $1)
+         (get_local $2)
+         (get_local $3)
         )
        )
       )
-      (i32.const 1)
+      (i32.const 0)
+      (i32.gt_s
+       (get_local $3)
+       (i32.const 0)
+      )
      )
-     (i32.const 2)
     )
    )
-   (i32.shl
-    (get_local $1)
-    (i32.const 2)
-   )
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (i32.sub
-    (get_local $2)
-    (get_local $1)
-   )
   )
- )
- (func $~lib/array/Array<i32>#__set (; 21 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
-  (local $3 i32)
-  (local $4 i32)
   (if
-   (i32.ge_u
-    (get_local $1)
-    (i32.shr_u
-     (i32.load
-      (tee_local $3
-       (i32.load
-        (get_local $0)
-       )
+   (get_local $2)
+   (block
+    (call $~lib/internal/memory/memmove
+     (i32.add
+      (i32.load
+       (get_local $5)
+      )
+      (i32.const 8)
+     )
+     (i32.add
+      (i32.add
+       (tee_local $3
+        (i32.load
+         (get_local $0)
+        )
+       )
+       (i32.const 8)
+      )
+      (i32.shl
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+     (i32.shl
+      (get_local $2)
+      (i32.const 2)
+     )
+    )
+    (call $~lib/internal/memory/memmove
+     (i32.add
+      (i32.add
+       (get_local $3)
+       (i32.const 8)
+      )
+      (i32.shl
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+     (i32.add
+      (i32.add
+       (get_local $3)
+       (i32.const 8)
+      )
+      (i32.shl
+       (i32.add
+        (get_local $1)
+        (get_local $2)
+       )
+       (i32.const 2)
+      )
+     )
+     (i32.shl
+      (i32.sub
+       (i32.sub
+        (get_local $4)
+        (get_local $1)
+       )
+       (get_local $2)
+      )
+      (i32.const 2)
+     )
+    )
+    (i32.store offset=4
+     (get_local $0)
+     (i32.sub
+      (get_local $4)
+      (get_local $2)
+     )
+    )
+   )
+  )
+  (get_local $5)
+ )
+ (func $~lib/array/Array<i32>#__set (; 21 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (i32.shr_u
+     (i32.load
+      (tee_local $3
+       (i32.load
+        (get_local $0)
+       )
       )
      )
      (i32.const 2)
@@ -3093,7 +3436,7 @@
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 8)
-       (i32.const 87)
+       (i32.const 134)
        (i32.const 41)
       )
       (unreachable)
@@ -3179,21 +3522,29 @@
     (set_global $~argc
      (i32.const 3)
     )
+    (set_local $3
+     (i32.load offset=8
+      (i32.add
+       (get_local $4)
+       (i32.shl
+        (get_local $2)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (set_global $~env
+     (get_local $1)
+    )
     (if
      (i32.and
       (call_indirect (type $iiii)
-       (i32.load offset=8
-        (i32.add
-         (get_local $4)
-         (i32.shl
-          (get_local $2)
-          (i32.const 2)
-         )
-        )
-       )
+       (get_local $3)
        (get_local $2)
        (get_local $0)
-       (get_local $1)
+       (i32.load
+        (get_global $~env)
+       )
       )
       (i32.const 1)
      )
@@ -3296,21 +3647,29 @@
     (set_global $~argc
      (i32.const 3)
     )
+    (set_local $3
+     (i32.load offset=8
+      (i32.add
+       (get_local $4)
+       (i32.shl
+        (get_local $2)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (set_global $~env
+     (get_local $1)
+    )
     (if
      (i32.and
       (call_indirect (type $iiii)
-       (i32.load offset=8
-        (i32.add
-         (get_local $4)
-         (i32.shl
-          (get_local $2)
-          (i32.const 2)
-         )
-        )
-       )
+       (get_local $3)
        (get_local $2)
        (get_local $0)
-       (get_local $1)
+       (i32.load
+        (get_global $~env)
+       )
       )
       (i32.const 1)
      )
@@ -3413,21 +3772,29 @@
     (set_global $~argc
      (i32.const 3)
     )
+    (set_local $3
+     (i32.load offset=8
+      (i32.add
+       (get_local $4)
+       (i32.shl
+        (get_local $2)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (set_global $~env
+     (get_local $1)
+    )
     (if
      (i32.and
       (call_indirect (type $iiii)
-       (i32.load offset=8
-        (i32.add
-         (get_local $4)
-         (i32.shl
-          (get_local $2)
-          (i32.const 2)
-         )
-        )
-       )
+       (get_local $3)
        (get_local $2)
        (get_local $0)
-       (get_local $1)
+       (i32.load
+        (get_global $~env)
+       )
       )
       (i32.const 1)
      )
@@ -3532,7 +3899,7 @@
     (set_global $~argc
      (i32.const 3)
     )
-    (call_indirect (type $iiiv)
+    (set_local $3
      (i32.load offset=8
       (i32.add
        (get_local $4)
@@ -3542,9 +3909,17 @@
        )
       )
      )
+    )
+    (set_global $~env
+     (get_local $1)
+    )
+    (call_indirect (type $iiiv)
+     (get_local $3)
      (get_local $2)
      (get_local $0)
-     (get_local $1)
+     (i32.load
+      (get_global $~env)
+     )
     )
     (set_local $2
      (i32.add
@@ -3595,6 +3970,7 @@
   (local $4 i32)
   (local $5 i32)
   (local $6 i32)
+  (local $7 i32)
   (set_local $3
    (i32.load
     (get_local $0)
@@ -3639,26 +4015,34 @@
     (set_global $~argc
      (i32.const 3)
     )
+    (set_local $2
+     (i32.load offset=8
+      (i32.add
+       (get_local $3)
+       (tee_local $7
+        (i32.shl
+         (get_local $1)
+         (i32.const 2)
+        )
+       )
+      )
+     )
+    )
+    (set_global $~env
+     (i32.const 296)
+    )
     (f32.store offset=8
      (i32.add
       (get_local $6)
-      (tee_local $2
-       (i32.shl
-        (get_local $1)
-        (i32.const 2)
-       )
-      )
+      (get_local $7)
      )
      (call_indirect (type $iiif)
-      (i32.load offset=8
-       (i32.add
-        (get_local $3)
-        (get_local $2)
-       )
-      )
+      (get_local $2)
       (get_local $1)
       (get_local $0)
-      (i32.const 20)
+      (i32.load
+       (get_global $~env)
+      )
      )
     )
     (set_local $1
@@ -3765,6 +4149,20 @@
     (set_global $~argc
      (i32.const 3)
     )
+    (set_local $3
+     (i32.load offset=8
+      (i32.add
+       (get_local $4)
+       (i32.shl
+        (get_local $2)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (set_global $~env
+     (get_local $1)
+    )
     (i32.store offset=8
      (i32.add
       (get_local $7)
@@ -3774,18 +4172,12 @@
       )
      )
      (call_indirect (type $iiii)
-      (i32.load offset=8
-       (i32.add
-        (get_local $4)
-        (i32.shl
-         (get_local $2)
-         (i32.const 2)
-        )
-       )
-      )
+      (get_local $3)
       (get_local $2)
       (get_local $0)
-      (get_local $1)
+      (i32.load
+       (get_global $~env)
+      )
      )
     )
     (set_local $2
@@ -3886,13 +4278,18 @@
     (set_global $~argc
      (i32.const 3)
     )
+    (set_global $~env
+     (get_local $1)
+    )
     (if
      (i32.and
       (call_indirect (type $iiii)
        (get_local $3)
        (get_local $2)
        (get_local $0)
-       (get_local $1)
+       (i32.load
+        (get_global $~env)
+       )
       )
       (i32.const 1)
      )
@@ -4008,21 +4405,29 @@
     (set_global $~argc
      (i32.const 4)
     )
+    (set_local $4
+     (i32.load offset=8
+      (i32.add
+       (get_local $5)
+       (i32.shl
+        (get_local $3)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (set_global $~env
+     (get_local $1)
+    )
     (set_local $2
      (call_indirect (type $iiiii)
       (get_local $2)
-      (i32.load offset=8
-       (i32.add
-        (get_local $5)
-        (i32.shl
-         (get_local $3)
-         (i32.const 2)
-        )
-       )
-      )
+      (get_local $4)
       (get_local $3)
       (get_local $0)
-      (get_local $1)
+      (i32.load
+       (get_global $~env)
+      )
      )
     )
     (set_local $3
@@ -4088,6 +4493,7 @@
  (func $~lib/array/Array<i32>#reduceRight<i32> (; 62 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
   (local $3 i32)
   (local $4 i32)
+  (local $5 i32)
   (set_local $4
    (i32.load
     (get_local $0)
@@ -4112,21 +4518,29 @@
     (set_global $~argc
      (i32.const 4)
     )
-    (set_local $2
-     (call_indirect (type $iiiii)
-      (get_local $2)
-      (i32.load offset=8
-       (i32.add
-        (get_local $4)
-        (i32.shl
-         (get_local $3)
-         (i32.const 2)
-        )
+    (set_local $5
+     (i32.load offset=8
+      (i32.add
+       (get_local $4)
+       (i32.shl
+        (get_local $3)
+        (i32.const 2)
        )
       )
+     )
+    )
+    (set_global $~env
+     (get_local $1)
+    )
+    (set_local $2
+     (call_indirect (type $iiiii)
+      (get_local $2)
+      (get_local $5)
       (get_local $3)
       (get_local $0)
-      (get_local $1)
+      (i32.load
+       (get_global $~env)
+      )
      )
     )
     (set_local $3
@@ -4179,7 +4593,7 @@
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 136)
+     (i32.const 472)
      (i32.const 1000)
      (i32.const 4)
     )
@@ -4200,1268 +4614,1189 @@
    )
   )
  )
- (func $~lib/internal/array/insertionSort<f32> (; 65 ;) (; has Stack IR ;) (type $FUNCSIG$viii) (param $0 i32) (param $1 i32) (param $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 f32)
-  (local $6 f32)
+ (func $~lib/internal/array/countRunAndMakeAscending<f32> (; 65 ;) (; has Stack IR ;) (type $iiiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (result i32)
+  (local $5 i32)
+  (local $6 i32)
   (local $7 i32)
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.ge_s
-      (get_local $4)
+  (local $8 f32)
+  (local $9 f32)
+  (if
+   (i32.eq
+    (tee_local $5
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (get_local $3)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (set_global $~argc
+   (i32.const 2)
+  )
+  (set_local $8
+   (f32.load offset=8
+    (i32.add
+     (i32.add
+      (get_local $0)
       (get_local $1)
      )
+     (i32.shl
+      (get_local $5)
+      (i32.const 2)
+     )
     )
-    (set_local $5
-     (f32.load offset=8
-      (i32.add
-       (get_local $0)
-       (i32.shl
-        (get_local $4)
-        (i32.const 2)
-       )
-      )
+   )
+  )
+  (set_local $9
+   (f32.load offset=8
+    (i32.add
+     (i32.add
+      (get_local $0)
+      (get_local $1)
+     )
+     (i32.shl
+      (get_local $2)
+      (i32.const 2)
      )
     )
-    (set_local $3
-     (i32.sub
-      (get_local $4)
+   )
+  )
+  (set_global $~env
+   (get_local $4)
+  )
+  (if
+   (i32.lt_s
+    (call_indirect (type $ffi)
+     (get_local $8)
+     (get_local $9)
+     (i32.load
+      (get_global $~env)
+     )
+    )
+    (i32.const 0)
+   )
+   (block
+    (set_local $5
+     (i32.add
+      (get_local $5)
       (i32.const 1)
      )
     )
-    (block $break|1
-     (loop $continue|1
-      (if
-       (i32.ge_s
+    (loop $continue|0
+     (if
+      (tee_local $6
+       (i32.lt_s
+        (get_local $5)
         (get_local $3)
-        (i32.const 0)
        )
-       (block
-        (set_local $6
-         (f32.load offset=8
+      )
+      (block
+       (set_global $~argc
+        (i32.const 2)
+       )
+       (set_local $8
+        (f32.load offset=8
+         (i32.add
           (i32.add
            (get_local $0)
-           (i32.shl
-            (get_local $3)
-            (i32.const 2)
-           )
+           (get_local $1)
           )
-         )
-        )
-        (set_global $~argc
-         (i32.const 2)
-        )
-        (br_if $break|1
-         (i32.ge_s
-          (call_indirect (type $ffi)
+          (i32.shl
            (get_local $5)
-           (get_local $6)
-           (get_local $2)
-          )
-          (i32.const 0)
-         )
-        )
-        (set_local $3
-         (i32.sub
-          (tee_local $7
-           (get_local $3)
+           (i32.const 2)
           )
-          (i32.const 1)
          )
         )
-        (f32.store offset=8
+       )
+       (set_local $9
+        (f32.load offset=8
          (i32.add
-          (get_local $0)
+          (i32.add
+           (get_local $0)
+           (get_local $1)
+          )
           (i32.shl
-           (i32.add
-            (get_local $7)
+           (i32.sub
+            (get_local $5)
             (i32.const 1)
            )
            (i32.const 2)
           )
          )
-         (get_local $6)
         )
-        (br $continue|1)
        )
-      )
-     )
-    )
-    (f32.store offset=8
-     (i32.add
-      (get_local $0)
-      (i32.shl
-       (i32.add
-        (get_local $3)
-        (i32.const 1)
+       (set_global $~env
+        (get_local $4)
+       )
+       (set_local $6
+        (i32.lt_s
+         (call_indirect (type $ffi)
+          (get_local $8)
+          (get_local $9)
+          (i32.load
+           (get_global $~env)
+          )
+         )
+         (i32.const 0)
+        )
        )
-       (i32.const 2)
       )
      )
-     (get_local $5)
-    )
-    (set_local $4
-     (i32.add
-      (get_local $4)
-      (i32.const 1)
-     )
-    )
-    (br $repeat|0)
-   )
-  )
- )
- (func $~lib/allocator/arena/__memory_free (; 66 ;) (; has Stack IR ;) (type $FUNCSIG$v)
-  (nop)
- )
- (func $~lib/internal/array/weakHeapSort<f32> (; 67 ;) (; has Stack IR ;) (type $FUNCSIG$viii) (param $0 i32) (param $1 i32) (param $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 f32)
-  (local $7 f32)
-  (local $8 i32)
-  (call $~lib/internal/memory/memset
-   (tee_local $8
-    (call $~lib/allocator/arena/__memory_allocate
-     (tee_local $5
-      (i32.shl
-       (i32.shr_s
+     (if
+      (get_local $6)
+      (block
+       (set_local $5
         (i32.add
-         (get_local $1)
-         (i32.const 31)
+         (get_local $5)
+         (i32.const 1)
         )
-        (i32.const 5)
        )
-       (i32.const 2)
+       (br $continue|0)
       )
      )
     )
-   )
-   (get_local $5)
-  )
-  (block $break|0
-   (set_local $3
-    (i32.sub
-     (get_local $1)
-     (i32.const 1)
-    )
-   )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.le_s
-      (get_local $3)
-      (i32.const 0)
+    (block $break|1
+     (set_local $6
+      (get_local $2)
      )
-    )
-    (set_local $5
-     (get_local $3)
-    )
-    (loop $continue|1
-     (if
-      (i32.eq
-       (i32.and
-        (get_local $5)
-        (i32.const 1)
+     (set_local $7
+      (i32.sub
+       (get_local $5)
+       (i32.const 1)
+      )
+     )
+     (loop $repeat|1
+      (br_if $break|1
+       (i32.ge_s
+        (get_local $6)
+        (get_local $7)
        )
-       (i32.and
-        (i32.shr_u
-         (i32.load
-          (i32.add
-           (get_local $8)
-           (i32.shl
-            (i32.shr_s
-             (get_local $5)
-             (i32.const 6)
-            )
-            (i32.const 2)
-           )
-          )
+      )
+      (set_local $8
+       (f32.load offset=8
+        (i32.add
+         (i32.add
+          (get_local $0)
+          (get_local $1)
          )
-         (i32.and
-          (i32.shr_s
-           (get_local $5)
-           (i32.const 1)
-          )
-          (i32.const 31)
+         (i32.shl
+          (get_local $6)
+          (i32.const 2)
          )
         )
-        (i32.const 1)
        )
       )
-      (block
-       (set_local $5
-        (i32.shr_s
-         (get_local $5)
-         (i32.const 1)
+      (f32.store offset=8
+       (i32.add
+        (i32.add
+         (get_local $0)
+         (get_local $1)
+        )
+        (i32.shl
+         (get_local $6)
+         (i32.const 2)
         )
        )
-       (br $continue|1)
-      )
-     )
-    )
-    (set_local $7
-     (f32.load offset=8
-      (i32.add
-       (get_local $0)
-       (i32.shl
-        (tee_local $4
-         (i32.shr_s
-          (get_local $5)
-          (i32.const 1)
+       (f32.load offset=8
+        (i32.add
+         (i32.add
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.shl
+          (get_local $7)
+          (i32.const 2)
          )
         )
-        (i32.const 2)
        )
       )
-     )
-    )
-    (set_local $6
-     (f32.load offset=8
-      (i32.add
-       (get_local $0)
-       (i32.shl
-        (get_local $3)
-        (i32.const 2)
+      (f32.store offset=8
+       (i32.add
+        (i32.add
+         (get_local $0)
+         (get_local $1)
+        )
+        (i32.shl
+         (get_local $7)
+         (i32.const 2)
+        )
+       )
+       (get_local $8)
+      )
+      (set_local $6
+       (i32.add
+        (get_local $6)
+        (i32.const 1)
+       )
+      )
+      (set_local $7
+       (i32.sub
+        (get_local $7)
+        (i32.const 1)
        )
       )
+      (br $repeat|1)
      )
     )
-    (set_global $~argc
-     (i32.const 2)
+   )
+   (block
+    (set_local $5
+     (i32.add
+      (get_local $5)
+      (i32.const 1)
+     )
     )
-    (if
-     (i32.lt_s
-      (call_indirect (type $ffi)
-       (get_local $7)
-       (get_local $6)
-       (get_local $2)
+    (loop $continue|2
+     (if
+      (tee_local $7
+       (i32.lt_s
+        (get_local $5)
+        (get_local $3)
+       )
       )
-      (i32.const 0)
-     )
-     (block
-      (i32.store
-       (tee_local $5
-        (i32.add
-         (get_local $8)
-         (i32.shl
-          (i32.shr_s
-           (get_local $3)
-           (i32.const 5)
+      (block
+       (set_global $~argc
+        (i32.const 2)
+       )
+       (set_local $8
+        (f32.load offset=8
+         (i32.add
+          (i32.add
+           (get_local $0)
+           (get_local $1)
+          )
+          (i32.shl
+           (get_local $5)
+           (i32.const 2)
           )
-          (i32.const 2)
          )
         )
        )
-       (i32.xor
-        (i32.load
-         (get_local $5)
-        )
-        (i32.shl
-         (i32.const 1)
-         (i32.and
-          (get_local $3)
-          (i32.const 31)
+       (set_local $9
+        (f32.load offset=8
+         (i32.add
+          (i32.add
+           (get_local $0)
+           (get_local $1)
+          )
+          (i32.shl
+           (i32.sub
+            (get_local $5)
+            (i32.const 1)
+           )
+           (i32.const 2)
+          )
          )
         )
        )
-      )
-      (f32.store offset=8
-       (i32.add
-        (get_local $0)
-        (i32.shl
-         (get_local $3)
-         (i32.const 2)
+       (set_global $~env
+        (get_local $4)
+       )
+       (set_local $7
+        (i32.ge_s
+         (call_indirect (type $ffi)
+          (get_local $8)
+          (get_local $9)
+          (i32.load
+           (get_global $~env)
+          )
+         )
+         (i32.const 0)
         )
        )
-       (get_local $7)
       )
-      (f32.store offset=8
-       (i32.add
-        (get_local $0)
-        (i32.shl
-         (get_local $4)
-         (i32.const 2)
+     )
+     (if
+      (get_local $7)
+      (block
+       (set_local $5
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
         )
        )
-       (get_local $6)
+       (br $continue|2)
       )
      )
     )
-    (set_local $3
-     (i32.sub
-      (get_local $3)
-      (i32.const 1)
-     )
-    )
-    (br $repeat|0)
    )
   )
-  (block $break|2
-   (set_local $3
-    (i32.sub
-     (get_local $1)
-     (i32.const 1)
+  (i32.sub
+   (get_local $5)
+   (get_local $2)
+  )
+ )
+ (func $~lib/internal/array/binaryInsertionSort<f32> (; 66 ;) (; has Stack IR ;) (type $iiiiiiv) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (param $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 f32)
+  (local $10 i32)
+  (local $11 f32)
+  (set_local $8
+   (i32.add
+    (i32.add
+     (get_local $0)
+     (i32.const 8)
     )
+    (get_local $1)
    )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.lt_s
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $4)
       (get_local $3)
-      (i32.const 2)
      )
     )
-    (set_local $6
-     (f32.load offset=8
-      (get_local $0)
-     )
-    )
-    (f32.store offset=8
-     (get_local $0)
+    (set_local $9
      (f32.load offset=8
-      (tee_local $1
+      (i32.add
        (i32.add
         (get_local $0)
-        (i32.shl
-         (get_local $3)
-         (i32.const 2)
-        )
+        (get_local $1)
+       )
+       (i32.shl
+        (get_local $4)
+        (i32.const 2)
        )
       )
      )
     )
-    (f32.store offset=8
-     (get_local $1)
-     (get_local $6)
+    (set_local $6
+     (get_local $2)
     )
-    (set_local $4
-     (i32.const 1)
+    (set_local $7
+     (get_local $4)
     )
-    (loop $continue|3
+    (loop $continue|1
      (if
       (i32.lt_s
-       (tee_local $5
-        (i32.add
-         (i32.shl
-          (get_local $4)
-          (i32.const 1)
-         )
-         (i32.and
-          (i32.shr_u
-           (i32.load
-            (i32.add
-             (get_local $8)
-             (i32.shl
-              (i32.shr_s
-               (get_local $4)
-               (i32.const 5)
-              )
-              (i32.const 2)
+       (get_local $6)
+       (get_local $7)
+      )
+      (block
+       (set_global $~argc
+        (i32.const 2)
+       )
+       (set_local $11
+        (f32.load offset=8
+         (i32.add
+          (i32.add
+           (get_local $0)
+           (get_local $1)
+          )
+          (i32.shl
+           (tee_local $10
+            (i32.shr_u
+             (i32.add
+              (get_local $6)
+              (get_local $7)
              )
+             (i32.const 1)
             )
            )
-           (i32.and
-            (get_local $4)
-            (i32.const 31)
-           )
+           (i32.const 2)
           )
-          (i32.const 1)
          )
         )
        )
-       (get_local $3)
-      )
-      (block
-       (set_local $4
+       (set_global $~env
         (get_local $5)
        )
-       (br $continue|3)
-      )
-     )
-    )
-    (loop $continue|4
-     (if
-      (i32.gt_s
-       (get_local $4)
-       (i32.const 0)
-      )
-      (block
-       (set_local $6
-        (f32.load offset=8
-         (get_local $0)
-        )
-       )
-       (set_local $7
-        (f32.load offset=8
-         (i32.add
-          (get_local $0)
-          (i32.shl
-           (get_local $4)
-           (i32.const 2)
-          )
-         )
-        )
-       )
-       (set_global $~argc
-        (i32.const 2)
-       )
        (if
         (i32.lt_s
          (call_indirect (type $ffi)
-          (get_local $6)
-          (get_local $7)
-          (get_local $2)
+          (get_local $9)
+          (get_local $11)
+          (i32.load
+           (get_global $~env)
+          )
          )
          (i32.const 0)
         )
-        (block
-         (i32.store
-          (tee_local $1
-           (i32.add
-            (get_local $8)
-            (i32.shl
-             (i32.shr_s
-              (get_local $4)
-              (i32.const 5)
-             )
-             (i32.const 2)
-            )
-           )
-          )
-          (i32.xor
-           (i32.load
-            (get_local $1)
-           )
-           (i32.shl
-            (i32.const 1)
-            (i32.and
-             (get_local $4)
-             (i32.const 31)
-            )
-           )
-          )
-         )
-         (f32.store offset=8
-          (i32.add
-           (get_local $0)
-           (i32.shl
-            (get_local $4)
-            (i32.const 2)
-           )
-          )
-          (get_local $6)
-         )
-         (f32.store offset=8
-          (get_local $0)
-          (get_local $7)
+        (set_local $7
+         (get_local $10)
+        )
+        (set_local $6
+         (i32.add
+          (get_local $10)
+          (i32.const 1)
          )
         )
        )
-       (set_local $4
-        (i32.shr_s
-         (get_local $4)
-         (i32.const 1)
-        )
+       (br $continue|1)
+      )
+     )
+    )
+    (call $~lib/internal/memory/memmove
+     (i32.add
+      (get_local $8)
+      (i32.shl
+       (i32.add
+        (get_local $6)
+        (i32.const 1)
        )
-       (br $continue|4)
+       (i32.const 2)
+      )
+     )
+     (i32.add
+      (get_local $8)
+      (i32.shl
+       (get_local $6)
+       (i32.const 2)
+      )
+     )
+     (i32.shl
+      (i32.sub
+       (get_local $4)
+       (get_local $6)
       )
+      (i32.const 2)
      )
     )
-    (set_local $3
-     (i32.sub
-      (get_local $3)
-      (i32.const 1)
+    (f32.store offset=8
+     (i32.add
+      (i32.add
+       (get_local $0)
+       (get_local $1)
+      )
+      (i32.shl
+       (get_local $6)
+       (i32.const 2)
+      )
      )
+     (get_local $9)
     )
-    (br $repeat|2)
-   )
-  )
-  (call $~lib/allocator/arena/__memory_free)
-  (set_local $6
-   (f32.load offset=8
-    (tee_local $1
+    (set_local $4
      (i32.add
-      (get_local $0)
-      (i32.const 4)
+      (get_local $4)
+      (i32.const 1)
      )
     )
+    (br $repeat|0)
    )
   )
-  (f32.store offset=8
-   (get_local $1)
-   (f32.load offset=8
-    (get_local $0)
-   )
-  )
-  (f32.store offset=8
-   (get_local $0)
-   (get_local $6)
-  )
  )
- (func $~lib/array/Array<f32>#sort (; 68 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 f32)
-  (local $5 f32)
-  (if
-   (i32.eqz
-    (get_local $1)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 8)
-     (i32.const 311)
-     (i32.const 4)
+ (func $~lib/internal/array/mergeRunsAt<f32> (; 67 ;) (; has Stack IR ;) (type $iiiiiiiv) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (param $5 i32) (param $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 f32)
+  (local $12 f32)
+  (local $13 i32)
+  (i32.store offset=4
+   (i32.add
+    (get_local $2)
+    (i32.shl
+     (get_local $4)
+     (i32.const 3)
     )
-    (unreachable)
    )
-  )
-  (if
-   (i32.le_s
-    (tee_local $3
-     (i32.load offset=4
-      (get_local $0)
+   (i32.sub
+    (tee_local $13
+     (i32.add
+      (tee_local $7
+       (i32.add
+        (tee_local $9
+         (i32.load
+          (tee_local $7
+           (i32.add
+            (get_local $2)
+            (i32.shl
+             (get_local $4)
+             (i32.const 3)
+            )
+           )
+          )
+         )
+        )
+        (tee_local $10
+         (i32.load offset=4
+          (get_local $7)
+         )
+        )
+       )
+      )
+      (i32.load offset=4
+       (i32.add
+        (get_local $2)
+        (i32.shl
+         (i32.add
+          (get_local $4)
+          (i32.const 1)
+         )
+         (i32.const 3)
+        )
+       )
+      )
      )
     )
-    (i32.const 1)
-   )
-   (return
-    (get_local $0)
-   )
-  )
-  (set_local $2
-   (i32.load
-    (get_local $0)
+    (get_local $9)
    )
   )
   (if
    (i32.eq
-    (get_local $3)
-    (i32.const 2)
+    (get_local $4)
+    (i32.sub
+     (get_local $3)
+     (i32.const 3)
+    )
    )
-   (block
-    (set_local $4
-     (f32.load offset=8
+   (i64.store
+    (i32.add
+     (get_local $2)
+     (i32.shl
       (i32.add
-       (get_local $2)
-       (i32.const 4)
+       (get_local $4)
+       (i32.const 1)
       )
+      (i32.const 3)
      )
     )
-    (set_local $5
-     (f32.load offset=8
+    (i64.load
+     (i32.add
       (get_local $2)
-     )
-    )
-    (set_global $~argc
-     (i32.const 2)
-    )
-    (if
-     (i32.lt_s
-      (call_indirect (type $ffi)
-       (get_local $4)
-       (get_local $5)
-       (get_local $1)
-      )
-      (i32.const 0)
-     )
-     (block
-      (f32.store offset=8
+      (i32.shl
        (i32.add
-        (get_local $2)
-        (i32.const 4)
+        (get_local $4)
+        (i32.const 2)
        )
-       (get_local $5)
-      )
-      (f32.store offset=8
-       (get_local $2)
-       (get_local $4)
+       (i32.const 3)
       )
      )
     )
-    (return
-     (get_local $0)
-    )
    )
   )
-  (if
-   (i32.lt_s
-    (get_local $3)
-    (i32.const 256)
-   )
-   (call $~lib/internal/array/insertionSort<f32>
-    (get_local $2)
-    (get_local $3)
-    (get_local $1)
-   )
-   (call $~lib/internal/array/weakHeapSort<f32>
-    (get_local $2)
-    (get_local $3)
-    (get_local $1)
-   )
-  )
-  (get_local $0)
- )
- (func $~lib/array/Array<f32>#sort|trampoline~anonymous|42 (; 69 ;) (; has Stack IR ;) (type $ffi) (param $0 f32) (param $1 f32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (i32.sub
-   (i32.gt_s
-    (tee_local $2
-     (i32.xor
-      (tee_local $2
-       (i32.reinterpret/f32
-        (get_local $0)
-       )
-      )
-      (i32.shr_u
-       (i32.shr_s
-        (get_local $2)
-        (i32.const 31)
-       )
-       (i32.const 1)
-      )
-     )
-    )
-    (tee_local $3
-     (i32.xor
-      (tee_local $3
-       (i32.reinterpret/f32
-        (get_local $1)
-       )
-      )
-      (i32.shr_u
-       (i32.shr_s
-        (get_local $3)
-        (i32.const 31)
-       )
-       (i32.const 1)
+  (call $~lib/internal/memory/memmove
+   (get_local $5)
+   (i32.add
+    (tee_local $4
+     (i32.add
+      (i32.add
+       (get_local $0)
+       (i32.const 8)
       )
+      (get_local $1)
      )
     )
-   )
-   (i32.lt_s
-    (get_local $2)
-    (get_local $3)
-   )
-  )
- )
- (func $~lib/array/Array<f32>#sort|trampoline (; 70 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (block $1of1
-   (block $0of1
-    (block $outOfRange
-     (br_table $0of1 $1of1 $outOfRange
-      (get_global $~argc)
-     )
+    (i32.shl
+     (get_local $9)
+     (i32.const 2)
     )
-    (unreachable)
    )
-   (set_local $1
-    (i32.const 42)
+   (i32.shl
+    (get_local $10)
+    (i32.const 2)
    )
   )
-  (call $~lib/array/Array<f32>#sort
-   (get_local $0)
-   (get_local $1)
-  )
- )
- (func $~lib/builtins/isNaN<f32> (; 71 ;) (; has Stack IR ;) (type $fi) (param $0 f32) (result i32)
-  (f32.ne
-   (get_local $0)
-   (get_local $0)
+  (set_local $3
+   (get_local $9)
   )
- )
- (func $std/array/isArraysEqual<f32> (; 72 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (if
-   (i32.ne
-    (i32.load offset=4
-     (get_local $0)
+  (loop $continue|0
+   (if
+    (tee_local $2
+     (i32.lt_s
+      (get_local $8)
+      (get_local $10)
+     )
     )
-    (i32.load
-     (i32.const 484)
+    (set_local $2
+     (i32.lt_s
+      (get_local $7)
+      (get_local $13)
+     )
     )
    )
-   (return
-    (i32.const 0)
-   )
-  )
-  (set_local $3
-   (i32.load offset=4
-    (get_local $0)
-   )
-  )
-  (block $break|0
-   (loop $repeat|0
-    (block $continue|0
-     (br_if $break|0
-      (i32.ge_s
-       (get_local $1)
-       (get_local $3)
+   (if
+    (get_local $2)
+    (block
+     (set_local $11
+      (f32.load
+       (i32.add
+        (get_local $5)
+        (i32.shl
+         (get_local $8)
+         (i32.const 2)
+        )
+       )
       )
      )
-     (if
-      (tee_local $2
-       (call $~lib/builtins/isNaN<f32>
-        (call $~lib/array/Array<f32>#__get
+     (set_local $12
+      (f32.load offset=8
+       (i32.add
+        (i32.add
          (get_local $0)
          (get_local $1)
         )
+        (i32.shl
+         (get_local $7)
+         (i32.const 2)
+        )
        )
       )
-      (set_local $2
-       (i32.eq
-        (call $~lib/builtins/isNaN<f32>
-         (call $~lib/array/Array<f32>#__get
-          (get_local $0)
-          (get_local $1)
+     )
+     (set_global $~argc
+      (i32.const 2)
+     )
+     (set_global $~env
+      (get_local $6)
+     )
+     (if
+      (i32.lt_s
+       (call_indirect (type $ffi)
+        (get_local $12)
+        (get_local $11)
+        (i32.load
+         (get_global $~env)
+        )
+       )
+       (i32.const 0)
+      )
+      (block
+       (set_local $3
+        (i32.add
+         (tee_local $2
+          (get_local $3)
          )
+         (i32.const 1)
         )
-        (call $~lib/builtins/isNaN<f32>
-         (call $~lib/array/Array<f32>#__get
-          (i32.const 480)
+       )
+       (f32.store offset=8
+        (i32.add
+         (i32.add
+          (get_local $0)
           (get_local $1)
          )
+         (i32.shl
+          (get_local $2)
+          (i32.const 2)
+         )
+        )
+        (get_local $12)
+       )
+       (set_local $7
+        (i32.add
+         (get_local $7)
+         (i32.const 1)
         )
        )
       )
-     )
-     (br_if $continue|0
-      (get_local $2)
-     )
-     (if
-      (f32.ne
-       (call $~lib/array/Array<f32>#__get
-        (get_local $0)
-        (get_local $1)
+      (block
+       (set_local $3
+        (i32.add
+         (tee_local $2
+          (get_local $3)
+         )
+         (i32.const 1)
+        )
        )
-       (call $~lib/array/Array<f32>#__get
-        (i32.const 480)
-        (get_local $1)
+       (f32.store offset=8
+        (i32.add
+         (i32.add
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.shl
+          (get_local $2)
+          (i32.const 2)
+         )
+        )
+        (get_local $11)
+       )
+       (set_local $8
+        (i32.add
+         (get_local $8)
+         (i32.const 1)
+        )
        )
-      )
-      (return
-       (i32.const 0)
       )
      )
+     (br $continue|0)
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
-     )
+   )
+  )
+  (call $~lib/internal/memory/memmove
+   (i32.add
+    (get_local $4)
+    (i32.shl
+     (get_local $3)
+     (i32.const 2)
     )
-    (br $repeat|0)
+   )
+   (i32.add
+    (get_local $5)
+    (i32.shl
+     (get_local $8)
+     (i32.const 2)
+    )
+   )
+   (i32.shl
+    (i32.sub
+     (get_local $10)
+     (get_local $8)
+    )
+    (i32.const 2)
    )
   )
-  (i32.const 1)
  )
- (func $~lib/internal/array/insertionSort<f64> (; 73 ;) (; has Stack IR ;) (type $FUNCSIG$viii) (param $0 i32) (param $1 i32) (param $2 i32)
+ (func $~lib/allocator/arena/__memory_free (; 68 ;) (; has Stack IR ;) (type $FUNCSIG$v)
+  (nop)
+ )
+ (func $~lib/internal/array/timSort<f32> (; 69 ;) (; has Stack IR ;) (type $FUNCSIG$viii) (param $0 i32) (param $1 i32) (param $2 i32)
   (local $3 i32)
   (local $4 i32)
-  (local $5 f64)
-  (local $6 f64)
+  (local $5 i32)
+  (local $6 i32)
   (local $7 i32)
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.ge_s
-      (get_local $4)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (if
+   (i32.lt_s
+    (get_local $1)
+    (i32.const 32)
+   )
+   (block
+    (call $~lib/internal/array/binaryInsertionSort<f32>
+     (get_local $0)
+     (i32.const 0)
+     (i32.const 0)
+     (get_local $1)
+     (call $~lib/internal/array/countRunAndMakeAscending<f32>
+      (get_local $0)
+      (i32.const 0)
+      (i32.const 0)
       (get_local $1)
+      (get_local $2)
      )
+     (get_local $2)
     )
-    (set_local $5
-     (f64.load offset=8
-      (i32.add
-       (get_local $0)
-       (i32.shl
-        (get_local $4)
-        (i32.const 3)
-       )
-      )
-     )
-    )
-    (set_local $3
-     (i32.sub
-      (get_local $4)
-      (i32.const 1)
-     )
-    )
-    (block $break|1
-     (loop $continue|1
-      (if
-       (i32.ge_s
-        (get_local $3)
-        (i32.const 0)
-       )
-       (block
-        (set_local $6
-         (f64.load offset=8
-          (i32.add
-           (get_local $0)
-           (i32.shl
-            (get_local $3)
-            (i32.const 3)
-           )
-          )
-         )
-        )
-        (set_global $~argc
-         (i32.const 2)
-        )
-        (br_if $break|1
-         (i32.ge_s
-          (call_indirect (type $FFi)
-           (get_local $5)
-           (get_local $6)
-           (get_local $2)
-          )
-          (i32.const 0)
-         )
-        )
-        (set_local $3
-         (i32.sub
-          (tee_local $7
-           (get_local $3)
-          )
-          (i32.const 1)
-         )
-        )
-        (f64.store offset=8
-         (i32.add
-          (get_local $0)
-          (i32.shl
-           (i32.add
-            (get_local $7)
-            (i32.const 1)
-           )
-           (i32.const 3)
-          )
-         )
-         (get_local $6)
-        )
-        (br $continue|1)
-       )
-      )
-     )
+    (return)
+   )
+  )
+  (set_local $8
+   (get_local $1)
+  )
+  (loop $continue|0
+   (if
+    (i32.ge_s
+     (get_local $8)
+     (i32.const 32)
     )
-    (f64.store offset=8
-     (i32.add
-      (get_local $0)
-      (i32.shl
-       (i32.add
-        (get_local $3)
+    (block
+     (set_local $5
+      (i32.or
+       (get_local $5)
+       (i32.and
+        (get_local $8)
         (i32.const 1)
        )
-       (i32.const 3)
       )
      )
-     (get_local $5)
-    )
-    (set_local $4
-     (i32.add
-      (get_local $4)
-      (i32.const 1)
+     (set_local $8
+      (i32.shr_s
+       (get_local $8)
+       (i32.const 1)
+      )
      )
+     (br $continue|0)
     )
-    (br $repeat|0)
    )
   )
- )
- (func $~lib/internal/array/weakHeapSort<f64> (; 74 ;) (; has Stack IR ;) (type $FUNCSIG$viii) (param $0 i32) (param $1 i32) (param $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 f64)
-  (local $7 f64)
-  (local $8 i32)
-  (call $~lib/internal/memory/memset
-   (tee_local $8
-    (call $~lib/allocator/arena/__memory_allocate
-     (tee_local $5
-      (i32.shl
-       (i32.shr_s
-        (i32.add
-         (get_local $1)
-         (i32.const 31)
-        )
-        (i32.const 5)
-       )
-       (i32.const 2)
-      )
-     )
-    )
+  (set_local $8
+   (i32.add
+    (get_local $8)
+    (get_local $5)
    )
-   (get_local $5)
   )
-  (block $break|0
-   (set_local $3
-    (i32.sub
+  (set_local $4
+   (call $~lib/allocator/arena/__memory_allocate
+    (i32.const 512)
+   )
+  )
+  (set_local $10
+   (call $~lib/allocator/arena/__memory_allocate
+    (i32.shl
      (get_local $1)
-     (i32.const 1)
+     (i32.const 2)
     )
    )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.le_s
-      (get_local $3)
-      (i32.const 0)
+  )
+  (block $break|1
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.ge_s
+      (get_local $6)
+      (get_local $1)
      )
     )
-    (set_local $5
-     (get_local $3)
-    )
-    (loop $continue|1
-     (if
-      (i32.eq
-       (i32.and
-        (get_local $5)
-        (i32.const 1)
+    (if
+     (i32.lt_s
+      (tee_local $9
+       (call $~lib/internal/array/countRunAndMakeAscending<f32>
+        (get_local $0)
+        (i32.const 0)
+        (get_local $6)
+        (get_local $1)
+        (get_local $2)
        )
-       (i32.and
-        (i32.shr_u
-         (i32.load
-          (i32.add
-           (get_local $8)
-           (i32.shl
-            (i32.shr_s
-             (get_local $5)
-             (i32.const 6)
-            )
-            (i32.const 2)
+      )
+      (get_local $8)
+     )
+     (block
+      (call $~lib/internal/array/binaryInsertionSort<f32>
+       (get_local $0)
+       (i32.const 0)
+       (get_local $6)
+       (i32.add
+        (get_local $6)
+        (tee_local $3
+         (select
+          (get_local $8)
+          (tee_local $5
+           (i32.sub
+            (get_local $1)
+            (get_local $6)
            )
           )
-         )
-         (i32.and
-          (i32.shr_s
+          (i32.lt_s
+           (get_local $8)
            (get_local $5)
-           (i32.const 1)
           )
-          (i32.const 31)
          )
         )
-        (i32.const 1)
        )
-      )
-      (block
-       (set_local $5
-        (i32.shr_s
-         (get_local $5)
-         (i32.const 1)
-        )
+       (i32.add
+        (get_local $6)
+        (get_local $9)
        )
-       (br $continue|1)
+       (get_local $2)
       )
-     )
-    )
-    (set_local $7
-     (f64.load offset=8
-      (i32.add
-       (get_local $0)
-       (i32.shl
-        (tee_local $4
-         (i32.shr_s
-          (get_local $5)
-          (i32.const 1)
-         )
-        )
-        (i32.const 3)
-       )
+      (set_local $9
+       (get_local $3)
       )
      )
     )
-    (set_local $6
-     (f64.load offset=8
+    (i32.store
+     (tee_local $5
       (i32.add
-       (get_local $0)
+       (get_local $4)
        (i32.shl
-        (get_local $3)
+        (get_local $7)
         (i32.const 3)
        )
       )
      )
+     (get_local $6)
     )
-    (set_global $~argc
-     (i32.const 2)
+    (i32.store offset=4
+     (get_local $5)
+     (get_local $9)
     )
-    (if
-     (i32.lt_s
-      (call_indirect (type $FFi)
-       (get_local $7)
-       (get_local $6)
-       (get_local $2)
-      )
-      (i32.const 0)
+    (set_local $7
+     (i32.add
+      (get_local $7)
+      (i32.const 1)
      )
-     (block
-      (i32.store
-       (tee_local $5
-        (i32.add
-         (get_local $8)
-         (i32.shl
-          (i32.shr_s
-           (get_local $3)
-           (i32.const 5)
+    )
+    (set_local $6
+     (i32.add
+      (get_local $6)
+      (get_local $9)
+     )
+    )
+    (block $break|2
+     (loop $continue|2
+      (if
+       (i32.gt_s
+        (get_local $7)
+        (i32.const 1)
+       )
+       (block
+        (if
+         (tee_local $5
+          (i32.gt_s
+           (tee_local $3
+            (i32.sub
+             (get_local $7)
+             (i32.const 2)
+            )
+           )
+           (i32.const 0)
           )
-          (i32.const 2)
          )
-        )
-       )
-       (i32.xor
-        (i32.load
-         (get_local $5)
-        )
-        (i32.shl
-         (i32.const 1)
-         (i32.and
-          (get_local $3)
-          (i32.const 31)
-         )
-        )
-       )
-      )
-      (f64.store offset=8
-       (i32.add
-        (get_local $0)
-        (i32.shl
-         (get_local $3)
-         (i32.const 3)
-        )
-       )
-       (get_local $7)
-      )
-      (f64.store offset=8
-       (i32.add
-        (get_local $0)
-        (i32.shl
-         (get_local $4)
-         (i32.const 3)
-        )
-       )
-       (get_local $6)
-      )
-     )
-    )
-    (set_local $3
-     (i32.sub
-      (get_local $3)
-      (i32.const 1)
-     )
-    )
-    (br $repeat|0)
-   )
-  )
-  (block $break|2
-   (set_local $3
-    (i32.sub
-     (get_local $1)
-     (i32.const 1)
-    )
-   )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.lt_s
-      (get_local $3)
-      (i32.const 2)
-     )
-    )
-    (set_local $6
-     (f64.load offset=8
-      (get_local $0)
-     )
-    )
-    (f64.store offset=8
-     (get_local $0)
-     (f64.load offset=8
-      (tee_local $1
-       (i32.add
-        (get_local $0)
-        (i32.shl
-         (get_local $3)
-         (i32.const 3)
-        )
-       )
-      )
-     )
-    )
-    (f64.store offset=8
-     (get_local $1)
-     (get_local $6)
-    )
-    (set_local $4
-     (i32.const 1)
-    )
-    (loop $continue|3
-     (if
-      (i32.lt_s
-       (tee_local $5
-        (i32.add
-         (i32.shl
-          (get_local $4)
-          (i32.const 1)
-         )
-         (i32.and
-          (i32.shr_u
-           (i32.load
+         (set_local $5
+          (i32.le_s
+           (i32.load offset=4
             (i32.add
-             (get_local $8)
+             (get_local $4)
              (i32.shl
-              (i32.shr_s
-               (get_local $4)
-               (i32.const 5)
+              (i32.sub
+               (get_local $3)
+               (i32.const 1)
               )
-              (i32.const 2)
+              (i32.const 3)
              )
             )
            )
-           (i32.and
-            (get_local $4)
-            (i32.const 31)
+           (i32.add
+            (i32.load offset=4
+             (i32.add
+              (get_local $4)
+              (i32.shl
+               (get_local $3)
+               (i32.const 3)
+              )
+             )
+            )
+            (i32.load offset=4
+             (i32.add
+              (get_local $4)
+              (i32.shl
+               (i32.add
+                (get_local $3)
+                (i32.const 1)
+               )
+               (i32.const 3)
+              )
+             )
+            )
            )
           )
-          (i32.const 1)
-         )
-        )
-       )
-       (get_local $3)
-      )
-      (block
-       (set_local $4
-        (get_local $5)
-       )
-       (br $continue|3)
-      )
-     )
-    )
-    (loop $continue|4
-     (if
-      (i32.gt_s
-       (get_local $4)
-       (i32.const 0)
-      )
-      (block
-       (set_local $6
-        (f64.load offset=8
-         (get_local $0)
-        )
-       )
-       (set_local $7
-        (f64.load offset=8
-         (i32.add
-          (get_local $0)
-          (i32.shl
-           (get_local $4)
-           (i32.const 3)
-          )
          )
         )
-       )
-       (set_global $~argc
-        (i32.const 2)
-       )
-       (if
-        (i32.lt_s
-         (call_indirect (type $FFi)
-          (get_local $6)
-          (get_local $7)
-          (get_local $2)
+        (if
+         (i32.eqz
+          (get_local $5)
          )
-         (i32.const 0)
-        )
-        (block
-         (i32.store
-          (tee_local $1
-           (i32.add
-            (get_local $8)
-            (i32.shl
-             (i32.shr_s
+         (if
+          (tee_local $5
+           (i32.gt_s
+            (get_local $3)
+            (i32.const 1)
+           )
+          )
+          (set_local $5
+           (i32.le_s
+            (i32.load offset=4
+             (i32.add
               (get_local $4)
-              (i32.const 5)
+              (i32.shl
+               (i32.sub
+                (get_local $3)
+                (i32.const 2)
+               )
+               (i32.const 3)
+              )
+             )
+            )
+            (i32.add
+             (i32.load offset=4
+              (i32.add
+               (get_local $4)
+               (i32.shl
+                (i32.sub
+                 (get_local $3)
+                 (i32.const 1)
+                )
+                (i32.const 3)
+               )
+              )
+             )
+             (i32.load offset=4
+              (i32.add
+               (get_local $4)
+               (i32.shl
+                (get_local $3)
+                (i32.const 3)
+               )
+              )
              )
-             (i32.const 2)
             )
            )
           )
-          (i32.xor
-           (i32.load
-            (get_local $1)
+         )
+        )
+        (if
+         (get_local $5)
+         (if
+          (i32.lt_s
+           (i32.load offset=4
+            (i32.add
+             (get_local $4)
+             (i32.shl
+              (i32.sub
+               (get_local $3)
+               (i32.const 1)
+              )
+              (i32.const 3)
+             )
+            )
            )
-           (i32.shl
-            (i32.const 1)
-            (i32.and
+           (i32.load offset=4
+            (i32.add
              (get_local $4)
-             (i32.const 31)
+             (i32.shl
+              (i32.add
+               (get_local $3)
+               (i32.const 1)
+              )
+              (i32.const 3)
+             )
             )
            )
           )
+          (set_local $3
+           (i32.sub
+            (get_local $3)
+            (i32.const 1)
+           )
+          )
          )
-         (f64.store offset=8
-          (i32.add
-           (get_local $0)
-           (i32.shl
-            (get_local $4)
-            (i32.const 3)
+         (br_if $break|2
+          (i32.gt_s
+           (i32.load offset=4
+            (i32.add
+             (get_local $4)
+             (i32.shl
+              (get_local $3)
+              (i32.const 3)
+             )
+            )
+           )
+           (i32.load offset=4
+            (i32.add
+             (get_local $4)
+             (i32.shl
+              (i32.add
+               (get_local $3)
+               (i32.const 1)
+              )
+              (i32.const 3)
+             )
+            )
            )
           )
-          (get_local $6)
          )
-         (f64.store offset=8
-          (get_local $0)
-          (get_local $7)
+        )
+        (set_local $7
+         (i32.sub
+          (tee_local $5
+           (get_local $7)
+          )
+          (i32.const 1)
          )
         )
-       )
-       (set_local $4
-        (i32.shr_s
+        (call $~lib/internal/array/mergeRunsAt<f32>
+         (get_local $0)
+         (i32.const 0)
          (get_local $4)
-         (i32.const 1)
+         (get_local $5)
+         (get_local $3)
+         (get_local $10)
+         (get_local $2)
         )
+        (br $continue|2)
        )
-       (br $continue|4)
       )
      )
     )
-    (set_local $3
-     (i32.sub
-      (get_local $3)
-      (i32.const 1)
-     )
-    )
-    (br $repeat|2)
+    (br $repeat|1)
    )
   )
-  (call $~lib/allocator/arena/__memory_free)
-  (set_local $6
-   (f64.load offset=8
-    (tee_local $1
-     (i32.add
-      (get_local $0)
-      (i32.const 8)
-     )
+  (loop $continue|3
+   (if
+    (i32.gt_s
+     (get_local $7)
+     (i32.const 1)
+    )
+    (block
+     (if
+      (tee_local $9
+       (i32.gt_s
+        (tee_local $6
+         (i32.sub
+          (get_local $7)
+          (i32.const 2)
+         )
+        )
+        (i32.const 0)
+       )
+      )
+      (set_local $9
+       (i32.lt_s
+        (i32.load offset=4
+         (i32.add
+          (get_local $4)
+          (i32.shl
+           (i32.sub
+            (get_local $6)
+            (i32.const 1)
+           )
+           (i32.const 3)
+          )
+         )
+        )
+        (i32.load offset=4
+         (i32.add
+          (get_local $4)
+          (i32.shl
+           (i32.add
+            (get_local $6)
+            (i32.const 1)
+           )
+           (i32.const 3)
+          )
+         )
+        )
+       )
+      )
+     )
+     (if
+      (get_local $9)
+      (set_local $6
+       (i32.sub
+        (get_local $6)
+        (i32.const 1)
+       )
+      )
+     )
+     (set_local $7
+      (i32.sub
+       (tee_local $9
+        (get_local $7)
+       )
+       (i32.const 1)
+      )
+     )
+     (call $~lib/internal/array/mergeRunsAt<f32>
+      (get_local $0)
+      (i32.const 0)
+      (get_local $4)
+      (get_local $9)
+      (get_local $6)
+      (get_local $10)
+      (get_local $2)
+     )
+     (br $continue|3)
     )
    )
   )
-  (f64.store offset=8
-   (get_local $1)
-   (f64.load offset=8
-    (get_local $0)
-   )
-  )
-  (f64.store offset=8
-   (get_local $0)
-   (get_local $6)
-  )
+  (call $~lib/allocator/arena/__memory_free)
+  (call $~lib/allocator/arena/__memory_free)
  )
- (func $~lib/array/Array<f64>#sort (; 75 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/array/Array<f32>#sort (; 70 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (local $3 i32)
-  (local $4 f64)
-  (local $5 f64)
+  (local $4 f32)
+  (local $5 f32)
   (if
    (i32.eqz
     (get_local $1)
@@ -5470,7 +5805,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 311)
+     (i32.const 456)
      (i32.const 4)
     )
     (unreachable)
@@ -5501,39 +5836,44 @@
    )
    (block
     (set_local $4
-     (f64.load offset=8
+     (f32.load offset=8
       (i32.add
        (get_local $2)
-       (i32.const 8)
+       (i32.const 4)
       )
      )
     )
     (set_local $5
-     (f64.load offset=8
+     (f32.load offset=8
       (get_local $2)
      )
     )
     (set_global $~argc
      (i32.const 2)
     )
+    (set_global $~env
+     (get_local $1)
+    )
     (if
      (i32.lt_s
-      (call_indirect (type $FFi)
+      (call_indirect (type $ffi)
        (get_local $4)
        (get_local $5)
-       (get_local $1)
+       (i32.load
+        (get_global $~env)
+       )
       )
       (i32.const 0)
      )
      (block
-      (f64.store offset=8
+      (f32.store offset=8
        (i32.add
         (get_local $2)
-        (i32.const 8)
+        (i32.const 4)
        )
        (get_local $5)
       )
-      (f64.store offset=8
+      (f32.store offset=8
        (get_local $2)
        (get_local $4)
       )
@@ -5544,69 +5884,58 @@
     )
    )
   )
-  (if
-   (i32.lt_s
-    (get_local $3)
-    (i32.const 256)
-   )
-   (call $~lib/internal/array/insertionSort<f64>
-    (get_local $2)
-    (get_local $3)
-    (get_local $1)
-   )
-   (call $~lib/internal/array/weakHeapSort<f64>
-    (get_local $2)
-    (get_local $3)
-    (get_local $1)
-   )
+  (call $~lib/internal/array/timSort<f32>
+   (get_local $2)
+   (get_local $3)
+   (get_local $1)
   )
   (get_local $0)
  )
- (func $~lib/array/Array<f64>#sort|trampoline~anonymous|43 (; 76 ;) (; has Stack IR ;) (type $FFi) (param $0 f64) (param $1 f64) (result i32)
-  (local $2 i64)
-  (local $3 i64)
+ (func $~lib/array/Array<f32>#sort|trampoline~anonymous|42 (; 71 ;) (; has Stack IR ;) (type $ffi) (param $0 f32) (param $1 f32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
   (i32.sub
-   (i64.gt_s
+   (i32.gt_s
     (tee_local $2
-     (i64.xor
+     (i32.xor
       (tee_local $2
-       (i64.reinterpret/f64
+       (i32.reinterpret/f32
         (get_local $0)
        )
       )
-      (i64.shr_u
-       (i64.shr_s
+      (i32.shr_u
+       (i32.shr_s
         (get_local $2)
-        (i64.const 63)
+        (i32.const 31)
        )
-       (i64.const 1)
+       (i32.const 1)
       )
      )
     )
     (tee_local $3
-     (i64.xor
+     (i32.xor
       (tee_local $3
-       (i64.reinterpret/f64
+       (i32.reinterpret/f32
         (get_local $1)
        )
       )
-      (i64.shr_u
-       (i64.shr_s
+      (i32.shr_u
+       (i32.shr_s
         (get_local $3)
-        (i64.const 63)
+        (i32.const 31)
        )
-       (i64.const 1)
+       (i32.const 1)
       )
      )
     )
    )
-   (i64.lt_s
+   (i32.lt_s
     (get_local $2)
     (get_local $3)
    )
   )
  )
- (func $~lib/array/Array<f64>#sort|trampoline (; 77 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+ (func $~lib/array/Array<f32>#sort|trampoline (; 72 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
   (local $1 i32)
   (block $1of1
    (block $0of1
@@ -5618,48 +5947,21 @@
     (unreachable)
    )
    (set_local $1
-    (i32.const 43)
+    (i32.const 752)
    )
   )
-  (call $~lib/array/Array<f64>#sort
+  (call $~lib/array/Array<f32>#sort
    (get_local $0)
    (get_local $1)
   )
  )
- (func $~lib/array/Array<f64>#__get (; 78 ;) (; has Stack IR ;) (type $iiF) (param $0 i32) (param $1 i32) (result f64)
-  (if (result f64)
-   (i32.lt_u
-    (get_local $1)
-    (i32.shr_u
-     (i32.load
-      (tee_local $0
-       (i32.load
-        (get_local $0)
-       )
-      )
-     )
-     (i32.const 3)
-    )
-   )
-   (f64.load offset=8
-    (i32.add
-     (get_local $0)
-     (i32.shl
-      (get_local $1)
-      (i32.const 3)
-     )
-    )
-   )
-   (unreachable)
-  )
- )
- (func $~lib/builtins/isNaN<f64> (; 79 ;) (; has Stack IR ;) (type $Fi) (param $0 f64) (result i32)
-  (f64.ne
+ (func $~lib/builtins/isNaN<f32> (; 73 ;) (; has Stack IR ;) (type $fi) (param $0 f32) (result i32)
+  (f32.ne
    (get_local $0)
    (get_local $0)
   )
  )
- (func $std/array/isArraysEqual<f64> (; 80 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+ (func $std/array/isArraysEqual<f32> (; 74 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
   (local $1 i32)
   (local $2 i32)
   (local $3 i32)
@@ -5669,7 +5971,7 @@
      (get_local $0)
     )
     (i32.load
-     (i32.const 756)
+     (i32.const 828)
     )
    )
    (return
@@ -5692,8 +5994,8 @@
      )
      (if
       (tee_local $2
-       (call $~lib/builtins/isNaN<f64>
-        (call $~lib/array/Array<f64>#__get
+       (call $~lib/builtins/isNaN<f32>
+        (call $~lib/array/Array<f32>#__get
          (get_local $0)
          (get_local $1)
         )
@@ -5701,15 +6003,15 @@
       )
       (set_local $2
        (i32.eq
-        (call $~lib/builtins/isNaN<f64>
-         (call $~lib/array/Array<f64>#__get
+        (call $~lib/builtins/isNaN<f32>
+         (call $~lib/array/Array<f32>#__get
           (get_local $0)
           (get_local $1)
          )
         )
-        (call $~lib/builtins/isNaN<f64>
-         (call $~lib/array/Array<f64>#__get
-          (i32.const 752)
+        (call $~lib/builtins/isNaN<f32>
+         (call $~lib/array/Array<f32>#__get
+          (i32.const 824)
           (get_local $1)
          )
         )
@@ -5720,13 +6022,13 @@
       (get_local $2)
      )
      (if
-      (f64.ne
-       (call $~lib/array/Array<f64>#__get
+      (f32.ne
+       (call $~lib/array/Array<f32>#__get
         (get_local $0)
         (get_local $1)
        )
-       (call $~lib/array/Array<f64>#__get
-        (i32.const 752)
+       (call $~lib/array/Array<f32>#__get
+        (i32.const 824)
         (get_local $1)
        )
       )
@@ -5746,734 +6048,6527 @@
   )
   (i32.const 1)
  )
- (func $~lib/internal/array/insertionSort<i32> (; 81 ;) (; has Stack IR ;) (type $FUNCSIG$viii) (param $0 i32) (param $1 i32) (param $2 i32)
-  (local $3 i32)
-  (local $4 i32)
+ (func $~lib/internal/array/countRunAndMakeAscending<f64> (; 75 ;) (; has Stack IR ;) (type $iiiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (result i32)
   (local $5 i32)
   (local $6 i32)
   (local $7 i32)
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.ge_s
-      (get_local $4)
+  (local $8 f64)
+  (local $9 f64)
+  (if
+   (i32.eq
+    (tee_local $5
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (get_local $3)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (set_global $~argc
+   (i32.const 2)
+  )
+  (set_local $8
+   (f64.load offset=8
+    (i32.add
+     (i32.add
+      (get_local $0)
       (get_local $1)
      )
+     (i32.shl
+      (get_local $5)
+      (i32.const 3)
+     )
     )
-    (set_local $6
-     (i32.load offset=8
-      (i32.add
-       (get_local $0)
-       (i32.shl
-        (get_local $4)
-        (i32.const 2)
-       )
-      )
+   )
+  )
+  (set_local $9
+   (f64.load offset=8
+    (i32.add
+     (i32.add
+      (get_local $0)
+      (get_local $1)
+     )
+     (i32.shl
+      (get_local $2)
+      (i32.const 3)
      )
     )
-    (set_local $3
-     (i32.sub
-      (get_local $4)
+   )
+  )
+  (set_global $~env
+   (get_local $4)
+  )
+  (if
+   (i32.lt_s
+    (call_indirect (type $FFi)
+     (get_local $8)
+     (get_local $9)
+     (i32.load
+      (get_global $~env)
+     )
+    )
+    (i32.const 0)
+   )
+   (block
+    (set_local $5
+     (i32.add
+      (get_local $5)
       (i32.const 1)
      )
     )
-    (block $break|1
-     (loop $continue|1
-      (if
-       (i32.ge_s
+    (loop $continue|0
+     (if
+      (tee_local $6
+       (i32.lt_s
+        (get_local $5)
         (get_local $3)
-        (i32.const 0)
        )
-       (block
-        (set_local $5
-         (i32.load offset=8
-          (i32.add
+      )
+      (block
+       (set_global $~argc
+        (i32.const 2)
+       )
+       (set_local $8
+        (f64.load offset=8
+         (i32.add
+          (i32.add
            (get_local $0)
-           (i32.shl
-            (get_local $3)
-            (i32.const 2)
-           )
+           (get_local $1)
           )
-         )
-        )
-        (set_global $~argc
-         (i32.const 2)
-        )
-        (br_if $break|1
-         (i32.ge_s
-          (call_indirect (type $iii)
-           (get_local $6)
+          (i32.shl
            (get_local $5)
-           (get_local $2)
-          )
-          (i32.const 0)
-         )
-        )
-        (set_local $7
-         (get_local $5)
-        )
-        (set_local $3
-         (i32.sub
-          (tee_local $5
-           (get_local $3)
+           (i32.const 3)
           )
-          (i32.const 1)
          )
         )
-        (i32.store offset=8
+       )
+       (set_local $9
+        (f64.load offset=8
          (i32.add
-          (get_local $0)
+          (i32.add
+           (get_local $0)
+           (get_local $1)
+          )
           (i32.shl
-           (i32.add
+           (i32.sub
             (get_local $5)
             (i32.const 1)
            )
-           (i32.const 2)
+           (i32.const 3)
           )
          )
-         (get_local $7)
-        )
-        (br $continue|1)
-       )
-      )
-     )
-    )
-    (i32.store offset=8
-     (i32.add
-      (get_local $0)
-      (i32.shl
-       (i32.add
-        (get_local $3)
-        (i32.const 1)
-       )
-       (i32.const 2)
-      )
-     )
-     (get_local $6)
-    )
-    (set_local $4
-     (i32.add
-      (get_local $4)
-      (i32.const 1)
-     )
-    )
-    (br $repeat|0)
-   )
-  )
- )
- (func $~lib/internal/array/weakHeapSort<i32> (; 82 ;) (; has Stack IR ;) (type $FUNCSIG$viii) (param $0 i32) (param $1 i32) (param $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (call $~lib/internal/memory/memset
-   (tee_local $7
-    (call $~lib/allocator/arena/__memory_allocate
-     (tee_local $6
-      (i32.shl
-       (i32.shr_s
-        (i32.add
-         (get_local $1)
-         (i32.const 31)
         )
-        (i32.const 5)
        )
-       (i32.const 2)
-      )
-     )
-    )
-   )
-   (get_local $6)
-  )
-  (block $break|0
-   (set_local $3
-    (i32.sub
-     (get_local $1)
-     (i32.const 1)
-    )
-   )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.le_s
-      (get_local $3)
-      (i32.const 0)
-     )
-    )
-    (set_local $4
-     (get_local $3)
-    )
-    (loop $continue|1
-     (if
-      (i32.eq
-       (i32.and
+       (set_global $~env
         (get_local $4)
-        (i32.const 1)
        )
-       (i32.and
-        (i32.shr_u
-         (i32.load
-          (i32.add
-           (get_local $7)
-           (i32.shl
-            (i32.shr_s
-             (get_local $4)
-             (i32.const 6)
-            )
-            (i32.const 2)
-           )
-          )
-         )
-         (i32.and
-          (i32.shr_s
-           (get_local $4)
-           (i32.const 1)
+       (set_local $6
+        (i32.lt_s
+         (call_indirect (type $FFi)
+          (get_local $8)
+          (get_local $9)
+          (i32.load
+           (get_global $~env)
           )
-          (i32.const 31)
          )
+         (i32.const 0)
         )
-        (i32.const 1)
        )
       )
+     )
+     (if
+      (get_local $6)
       (block
-       (set_local $4
-        (i32.shr_s
-         (get_local $4)
+       (set_local $5
+        (i32.add
+         (get_local $5)
          (i32.const 1)
         )
        )
-       (br $continue|1)
+       (br $continue|0)
       )
      )
     )
-    (set_local $4
-     (i32.load offset=8
-      (i32.add
-       (get_local $0)
-       (i32.shl
-        (tee_local $5
-         (i32.shr_s
-          (get_local $4)
-          (i32.const 1)
-         )
-        )
-        (i32.const 2)
-       )
-      )
+    (block $break|1
+     (set_local $6
+      (get_local $2)
      )
-    )
-    (set_local $6
-     (i32.load offset=8
-      (i32.add
-       (get_local $0)
-       (i32.shl
-        (get_local $3)
-        (i32.const 2)
-       )
+     (set_local $7
+      (i32.sub
+       (get_local $5)
+       (i32.const 1)
       )
      )
-    )
-    (set_global $~argc
-     (i32.const 2)
-    )
-    (if
-     (i32.lt_s
-      (call_indirect (type $iii)
-       (get_local $4)
-       (get_local $6)
-       (get_local $2)
+     (loop $repeat|1
+      (br_if $break|1
+       (i32.ge_s
+        (get_local $6)
+        (get_local $7)
+       )
       )
-      (i32.const 0)
-     )
-     (block
-      (i32.store
-       (tee_local $8
+      (set_local $8
+       (f64.load offset=8
         (i32.add
-         (get_local $7)
+         (i32.add
+          (get_local $0)
+          (get_local $1)
+         )
          (i32.shl
-          (i32.shr_s
-           (get_local $3)
-           (i32.const 5)
-          )
-          (i32.const 2)
+          (get_local $6)
+          (i32.const 3)
          )
         )
        )
-       (i32.xor
-        (i32.load
-         (get_local $8)
+      )
+      (f64.store offset=8
+       (i32.add
+        (i32.add
+         (get_local $0)
+         (get_local $1)
         )
         (i32.shl
-         (i32.const 1)
-         (i32.and
-          (get_local $3)
-          (i32.const 31)
+         (get_local $6)
+         (i32.const 3)
+        )
+       )
+       (f64.load offset=8
+        (i32.add
+         (i32.add
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.shl
+          (get_local $7)
+          (i32.const 3)
          )
         )
        )
       )
-      (i32.store offset=8
+      (f64.store offset=8
        (i32.add
-        (get_local $0)
+        (i32.add
+         (get_local $0)
+         (get_local $1)
+        )
         (i32.shl
-         (get_local $3)
-         (i32.const 2)
+         (get_local $7)
+         (i32.const 3)
         )
        )
-       (get_local $4)
+       (get_local $8)
       )
-      (i32.store offset=8
+      (set_local $6
        (i32.add
-        (get_local $0)
-        (i32.shl
-         (get_local $5)
-         (i32.const 2)
-        )
+        (get_local $6)
+        (i32.const 1)
+       )
+      )
+      (set_local $7
+       (i32.sub
+        (get_local $7)
+        (i32.const 1)
        )
-       (get_local $6)
       )
+      (br $repeat|1)
      )
     )
-    (set_local $3
-     (i32.sub
-      (get_local $3)
+   )
+   (block
+    (set_local $5
+     (i32.add
+      (get_local $5)
       (i32.const 1)
      )
     )
-    (br $repeat|0)
-   )
-  )
-  (block $break|2
-   (set_local $3
-    (i32.sub
-     (get_local $1)
-     (i32.const 1)
-    )
-   )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.lt_s
-      (get_local $3)
-      (i32.const 2)
+    (loop $continue|2
+     (if
+      (tee_local $7
+       (i32.lt_s
+        (get_local $5)
+        (get_local $3)
+       )
+      )
+      (block
+       (set_global $~argc
+        (i32.const 2)
+       )
+       (set_local $8
+        (f64.load offset=8
+         (i32.add
+          (i32.add
+           (get_local $0)
+           (get_local $1)
+          )
+          (i32.shl
+           (get_local $5)
+           (i32.const 3)
+          )
+         )
+        )
+       )
+       (set_local $9
+        (f64.load offset=8
+         (i32.add
+          (i32.add
+           (get_local $0)
+           (get_local $1)
+          )
+          (i32.shl
+           (i32.sub
+            (get_local $5)
+            (i32.const 1)
+           )
+           (i32.const 3)
+          )
+         )
+        )
+       )
+       (set_global $~env
+        (get_local $4)
+       )
+       (set_local $7
+        (i32.ge_s
+         (call_indirect (type $FFi)
+          (get_local $8)
+          (get_local $9)
+          (i32.load
+           (get_global $~env)
+          )
+         )
+         (i32.const 0)
+        )
+       )
+      )
      )
-    )
-    (set_local $6
-     (i32.load offset=8
-      (get_local $0)
+     (if
+      (get_local $7)
+      (block
+       (set_local $5
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (br $continue|2)
+      )
      )
     )
-    (i32.store offset=8
+   )
+  )
+  (i32.sub
+   (get_local $5)
+   (get_local $2)
+  )
+ )
+ (func $~lib/internal/array/binaryInsertionSort<f64> (; 76 ;) (; has Stack IR ;) (type $iiiiiiv) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (param $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 f64)
+  (local $10 i32)
+  (local $11 f64)
+  (set_local $8
+   (i32.add
+    (i32.add
      (get_local $0)
-     (i32.load offset=8
-      (tee_local $1
+     (i32.const 8)
+    )
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $4)
+      (get_local $3)
+     )
+    )
+    (set_local $9
+     (f64.load offset=8
+      (i32.add
        (i32.add
         (get_local $0)
-        (i32.shl
-         (get_local $3)
-         (i32.const 2)
-        )
+        (get_local $1)
+       )
+       (i32.shl
+        (get_local $4)
+        (i32.const 3)
        )
       )
      )
     )
-    (i32.store offset=8
-     (get_local $1)
-     (get_local $6)
+    (set_local $6
+     (get_local $2)
     )
-    (set_local $5
-     (i32.const 1)
+    (set_local $7
+     (get_local $4)
     )
-    (loop $continue|3
+    (loop $continue|1
      (if
       (i32.lt_s
-       (tee_local $4
-        (i32.add
-         (i32.shl
-          (get_local $5)
-          (i32.const 1)
-         )
-         (i32.and
-          (i32.shr_u
-           (i32.load
-            (i32.add
-             (get_local $7)
-             (i32.shl
-              (i32.shr_s
-               (get_local $5)
-               (i32.const 5)
-              )
-              (i32.const 2)
+       (get_local $6)
+       (get_local $7)
+      )
+      (block
+       (set_global $~argc
+        (i32.const 2)
+       )
+       (set_local $11
+        (f64.load offset=8
+         (i32.add
+          (i32.add
+           (get_local $0)
+           (get_local $1)
+          )
+          (i32.shl
+           (tee_local $10
+            (i32.shr_u
+             (i32.add
+              (get_local $6)
+              (get_local $7)
              )
+             (i32.const 1)
             )
            )
-           (i32.and
-            (get_local $5)
-            (i32.const 31)
+           (i32.const 3)
+          )
+         )
+        )
+       )
+       (set_global $~env
+        (get_local $5)
+       )
+       (if
+        (i32.lt_s
+         (call_indirect (type $FFi)
+          (get_local $9)
+          (get_local $11)
+          (i32.load
+           (get_global $~env)
+          )
+         )
+         (i32.const 0)
+        )
+        (set_local $7
+         (get_local $10)
+        )
+        (set_local $6
+         (i32.add
+          (get_local $10)
+          (i32.const 1)
+         )
+        )
+       )
+       (br $continue|1)
+      )
+     )
+    )
+    (call $~lib/internal/memory/memmove
+     (i32.add
+      (get_local $8)
+      (i32.shl
+       (i32.add
+        (get_local $6)
+        (i32.const 1)
+       )
+       (i32.const 3)
+      )
+     )
+     (i32.add
+      (get_local $8)
+      (i32.shl
+       (get_local $6)
+       (i32.const 3)
+      )
+     )
+     (i32.shl
+      (i32.sub
+       (get_local $4)
+       (get_local $6)
+      )
+      (i32.const 3)
+     )
+    )
+    (f64.store offset=8
+     (i32.add
+      (i32.add
+       (get_local $0)
+       (get_local $1)
+      )
+      (i32.shl
+       (get_local $6)
+       (i32.const 3)
+      )
+     )
+     (get_local $9)
+    )
+    (set_local $4
+     (i32.add
+      (get_local $4)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $~lib/internal/array/mergeRunsAt<f64> (; 77 ;) (; has Stack IR ;) (type $iiiiiiiv) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (param $5 i32) (param $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 f64)
+  (local $12 f64)
+  (local $13 i32)
+  (i32.store offset=4
+   (i32.add
+    (get_local $2)
+    (i32.shl
+     (get_local $4)
+     (i32.const 3)
+    )
+   )
+   (i32.sub
+    (tee_local $13
+     (i32.add
+      (tee_local $7
+       (i32.add
+        (tee_local $9
+         (i32.load
+          (tee_local $7
+           (i32.add
+            (get_local $2)
+            (i32.shl
+             (get_local $4)
+             (i32.const 3)
+            )
            )
           )
+         )
+        )
+        (tee_local $10
+         (i32.load offset=4
+          (get_local $7)
+         )
+        )
+       )
+      )
+      (i32.load offset=4
+       (i32.add
+        (get_local $2)
+        (i32.shl
+         (i32.add
+          (get_local $4)
           (i32.const 1)
          )
+         (i32.const 3)
+        )
+       )
+      )
+     )
+    )
+    (get_local $9)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $4)
+    (i32.sub
+     (get_local $3)
+     (i32.const 3)
+    )
+   )
+   (i64.store
+    (i32.add
+     (get_local $2)
+     (i32.shl
+      (i32.add
+       (get_local $4)
+       (i32.const 1)
+      )
+      (i32.const 3)
+     )
+    )
+    (i64.load
+     (i32.add
+      (get_local $2)
+      (i32.shl
+       (i32.add
+        (get_local $4)
+        (i32.const 2)
+       )
+       (i32.const 3)
+      )
+     )
+    )
+   )
+  )
+  (call $~lib/internal/memory/memmove
+   (get_local $5)
+   (i32.add
+    (tee_local $4
+     (i32.add
+      (i32.add
+       (get_local $0)
+       (i32.const 8)
+      )
+      (get_local $1)
+     )
+    )
+    (i32.shl
+     (get_local $9)
+     (i32.const 3)
+    )
+   )
+   (i32.shl
+    (get_local $10)
+    (i32.const 3)
+   )
+  )
+  (set_local $3
+   (get_local $9)
+  )
+  (loop $continue|0
+   (if
+    (tee_local $2
+     (i32.lt_s
+      (get_local $8)
+      (get_local $10)
+     )
+    )
+    (set_local $2
+     (i32.lt_s
+      (get_local $7)
+      (get_local $13)
+     )
+    )
+   )
+   (if
+    (get_local $2)
+    (block
+     (set_local $11
+      (f64.load
+       (i32.add
+        (get_local $5)
+        (i32.shl
+         (get_local $8)
+         (i32.const 3)
+        )
+       )
+      )
+     )
+     (set_local $12
+      (f64.load offset=8
+       (i32.add
+        (i32.add
+         (get_local $0)
+         (get_local $1)
+        )
+        (i32.shl
+         (get_local $7)
+         (i32.const 3)
+        )
+       )
+      )
+     )
+     (set_global $~argc
+      (i32.const 2)
+     )
+     (set_global $~env
+      (get_local $6)
+     )
+     (if
+      (i32.lt_s
+       (call_indirect (type $FFi)
+        (get_local $12)
+        (get_local $11)
+        (i32.load
+         (get_global $~env)
+        )
+       )
+       (i32.const 0)
+      )
+      (block
+       (set_local $3
+        (i32.add
+         (tee_local $2
+          (get_local $3)
+         )
+         (i32.const 1)
+        )
+       )
+       (f64.store offset=8
+        (i32.add
+         (i32.add
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.shl
+          (get_local $2)
+          (i32.const 3)
+         )
+        )
+        (get_local $12)
+       )
+       (set_local $7
+        (i32.add
+         (get_local $7)
+         (i32.const 1)
+        )
+       )
+      )
+      (block
+       (set_local $3
+        (i32.add
+         (tee_local $2
+          (get_local $3)
+         )
+         (i32.const 1)
+        )
+       )
+       (f64.store offset=8
+        (i32.add
+         (i32.add
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.shl
+          (get_local $2)
+          (i32.const 3)
+         )
+        )
+        (get_local $11)
+       )
+       (set_local $8
+        (i32.add
+         (get_local $8)
+         (i32.const 1)
+        )
+       )
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (call $~lib/internal/memory/memmove
+   (i32.add
+    (get_local $4)
+    (i32.shl
+     (get_local $3)
+     (i32.const 3)
+    )
+   )
+   (i32.add
+    (get_local $5)
+    (i32.shl
+     (get_local $8)
+     (i32.const 3)
+    )
+   )
+   (i32.shl
+    (i32.sub
+     (get_local $10)
+     (get_local $8)
+    )
+    (i32.const 3)
+   )
+  )
+ )
+ (func $~lib/internal/array/timSort<f64> (; 78 ;) (; has Stack IR ;) (type $FUNCSIG$viii) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (if
+   (i32.lt_s
+    (get_local $1)
+    (i32.const 32)
+   )
+   (block
+    (call $~lib/internal/array/binaryInsertionSort<f64>
+     (get_local $0)
+     (i32.const 0)
+     (i32.const 0)
+     (get_local $1)
+     (call $~lib/internal/array/countRunAndMakeAscending<f64>
+      (get_local $0)
+      (i32.const 0)
+      (i32.const 0)
+      (get_local $1)
+      (get_local $2)
+     )
+     (get_local $2)
+    )
+    (return)
+   )
+  )
+  (set_local $8
+   (get_local $1)
+  )
+  (loop $continue|0
+   (if
+    (i32.ge_s
+     (get_local $8)
+     (i32.const 32)
+    )
+    (block
+     (set_local $5
+      (i32.or
+       (get_local $5)
+       (i32.and
+        (get_local $8)
+        (i32.const 1)
+       )
+      )
+     )
+     (set_local $8
+      (i32.shr_s
+       (get_local $8)
+       (i32.const 1)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (set_local $8
+   (i32.add
+    (get_local $8)
+    (get_local $5)
+   )
+  )
+  (set_local $4
+   (call $~lib/allocator/arena/__memory_allocate
+    (i32.const 512)
+   )
+  )
+  (set_local $10
+   (call $~lib/allocator/arena/__memory_allocate
+    (i32.shl
+     (get_local $1)
+     (i32.const 3)
+    )
+   )
+  )
+  (block $break|1
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.ge_s
+      (get_local $6)
+      (get_local $1)
+     )
+    )
+    (if
+     (i32.lt_s
+      (tee_local $9
+       (call $~lib/internal/array/countRunAndMakeAscending<f64>
+        (get_local $0)
+        (i32.const 0)
+        (get_local $6)
+        (get_local $1)
+        (get_local $2)
+       )
+      )
+      (get_local $8)
+     )
+     (block
+      (call $~lib/internal/array/binaryInsertionSort<f64>
+       (get_local $0)
+       (i32.const 0)
+       (get_local $6)
+       (i32.add
+        (get_local $6)
+        (tee_local $3
+         (select
+          (get_local $8)
+          (tee_local $5
+           (i32.sub
+            (get_local $1)
+            (get_local $6)
+           )
+          )
+          (i32.lt_s
+           (get_local $8)
+           (get_local $5)
+          )
+         )
+        )
+       )
+       (i32.add
+        (get_local $6)
+        (get_local $9)
+       )
+       (get_local $2)
+      )
+      (set_local $9
+       (get_local $3)
+      )
+     )
+    )
+    (i32.store
+     (tee_local $5
+      (i32.add
+       (get_local $4)
+       (i32.shl
+        (get_local $7)
+        (i32.const 3)
+       )
+      )
+     )
+     (get_local $6)
+    )
+    (i32.store offset=4
+     (get_local $5)
+     (get_local $9)
+    )
+    (set_local $7
+     (i32.add
+      (get_local $7)
+      (i32.const 1)
+     )
+    )
+    (set_local $6
+     (i32.add
+      (get_local $6)
+      (get_local $9)
+     )
+    )
+    (block $break|2
+     (loop $continue|2
+      (if
+       (i32.gt_s
+        (get_local $7)
+        (i32.const 1)
+       )
+       (block
+        (if
+         (tee_local $5
+          (i32.gt_s
+           (tee_local $3
+            (i32.sub
+             (get_local $7)
+             (i32.const 2)
+            )
+           )
+           (i32.const 0)
+          )
+         )
+         (set_local $5
+          (i32.le_s
+           (i32.load offset=4
+            (i32.add
+             (get_local $4)
+             (i32.shl
+              (i32.sub
+               (get_local $3)
+               (i32.const 1)
+              )
+              (i32.const 3)
+             )
+            )
+           )
+           (i32.add
+            (i32.load offset=4
+             (i32.add
+              (get_local $4)
+              (i32.shl
+               (get_local $3)
+               (i32.const 3)
+              )
+             )
+            )
+            (i32.load offset=4
+             (i32.add
+              (get_local $4)
+              (i32.shl
+               (i32.add
+                (get_local $3)
+                (i32.const 1)
+               )
+               (i32.const 3)
+              )
+             )
+            )
+           )
+          )
+         )
+        )
+        (if
+         (i32.eqz
+          (get_local $5)
+         )
+         (if
+          (tee_local $5
+           (i32.gt_s
+            (get_local $3)
+            (i32.const 1)
+           )
+          )
+          (set_local $5
+           (i32.le_s
+            (i32.load offset=4
+             (i32.add
+              (get_local $4)
+              (i32.shl
+               (i32.sub
+                (get_local $3)
+                (i32.const 2)
+               )
+               (i32.const 3)
+              )
+             )
+            )
+            (i32.add
+             (i32.load offset=4
+              (i32.add
+               (get_local $4)
+               (i32.shl
+                (i32.sub
+                 (get_local $3)
+                 (i32.const 1)
+                )
+                (i32.const 3)
+               )
+              )
+             )
+             (i32.load offset=4
+              (i32.add
+               (get_local $4)
+               (i32.shl
+                (get_local $3)
+                (i32.const 3)
+               )
+              )
+             )
+            )
+           )
+          )
+         )
+        )
+        (if
+         (get_local $5)
+         (if
+          (i32.lt_s
+           (i32.load offset=4
+            (i32.add
+             (get_local $4)
+             (i32.shl
+              (i32.sub
+               (get_local $3)
+               (i32.const 1)
+              )
+              (i32.const 3)
+             )
+            )
+           )
+           (i32.load offset=4
+            (i32.add
+             (get_local $4)
+             (i32.shl
+              (i32.add
+               (get_local $3)
+               (i32.const 1)
+              )
+              (i32.const 3)
+             )
+            )
+           )
+          )
+          (set_local $3
+           (i32.sub
+            (get_local $3)
+            (i32.const 1)
+           )
+          )
+         )
+         (br_if $break|2
+          (i32.gt_s
+           (i32.load offset=4
+            (i32.add
+             (get_local $4)
+             (i32.shl
+              (get_local $3)
+              (i32.const 3)
+             )
+            )
+           )
+           (i32.load offset=4
+            (i32.add
+             (get_local $4)
+             (i32.shl
+              (i32.add
+               (get_local $3)
+               (i32.const 1)
+              )
+              (i32.const 3)
+             )
+            )
+           )
+          )
+         )
+        )
+        (set_local $7
+         (i32.sub
+          (tee_local $5
+           (get_local $7)
+          )
+          (i32.const 1)
+         )
+        )
+        (call $~lib/internal/array/mergeRunsAt<f64>
+         (get_local $0)
+         (i32.const 0)
+         (get_local $4)
+         (get_local $5)
+         (get_local $3)
+         (get_local $10)
+         (get_local $2)
+        )
+        (br $continue|2)
+       )
+      )
+     )
+    )
+    (br $repeat|1)
+   )
+  )
+  (loop $continue|3
+   (if
+    (i32.gt_s
+     (get_local $7)
+     (i32.const 1)
+    )
+    (block
+     (if
+      (tee_local $9
+       (i32.gt_s
+        (tee_local $6
+         (i32.sub
+          (get_local $7)
+          (i32.const 2)
+         )
+        )
+        (i32.const 0)
+       )
+      )
+      (set_local $9
+       (i32.lt_s
+        (i32.load offset=4
+         (i32.add
+          (get_local $4)
+          (i32.shl
+           (i32.sub
+            (get_local $6)
+            (i32.const 1)
+           )
+           (i32.const 3)
+          )
+         )
+        )
+        (i32.load offset=4
+         (i32.add
+          (get_local $4)
+          (i32.shl
+           (i32.add
+            (get_local $6)
+            (i32.const 1)
+           )
+           (i32.const 3)
+          )
+         )
+        )
+       )
+      )
+     )
+     (if
+      (get_local $9)
+      (set_local $6
+       (i32.sub
+        (get_local $6)
+        (i32.const 1)
+       )
+      )
+     )
+     (set_local $7
+      (i32.sub
+       (tee_local $9
+        (get_local $7)
+       )
+       (i32.const 1)
+      )
+     )
+     (call $~lib/internal/array/mergeRunsAt<f64>
+      (get_local $0)
+      (i32.const 0)
+      (get_local $4)
+      (get_local $9)
+      (get_local $6)
+      (get_local $10)
+      (get_local $2)
+     )
+     (br $continue|3)
+    )
+   )
+  )
+  (call $~lib/allocator/arena/__memory_free)
+  (call $~lib/allocator/arena/__memory_free)
+ )
+ (func $~lib/array/Array<f64>#sort (; 79 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 f64)
+  (local $5 f64)
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 456)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.le_s
+    (tee_local $3
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+    (i32.const 1)
+   )
+   (return
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $3)
+    (i32.const 2)
+   )
+   (block
+    (set_local $4
+     (f64.load offset=8
+      (i32.add
+       (get_local $2)
+       (i32.const 8)
+      )
+     )
+    )
+    (set_local $5
+     (f64.load offset=8
+      (get_local $2)
+     )
+    )
+    (set_global $~argc
+     (i32.const 2)
+    )
+    (set_global $~env
+     (get_local $1)
+    )
+    (if
+     (i32.lt_s
+      (call_indirect (type $FFi)
+       (get_local $4)
+       (get_local $5)
+       (i32.load
+        (get_global $~env)
+       )
+      )
+      (i32.const 0)
+     )
+     (block
+      (f64.store offset=8
+       (i32.add
+        (get_local $2)
+        (i32.const 8)
+       )
+       (get_local $5)
+      )
+      (f64.store offset=8
+       (get_local $2)
+       (get_local $4)
+      )
+     )
+    )
+    (return
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/internal/array/timSort<f64>
+   (get_local $2)
+   (get_local $3)
+   (get_local $1)
+  )
+  (get_local $0)
+ )
+ (func $~lib/array/Array<f64>#sort|trampoline~anonymous|43 (; 80 ;) (; has Stack IR ;) (type $FFi) (param $0 f64) (param $1 f64) (result i32)
+  (local $2 i64)
+  (local $3 i64)
+  (i32.sub
+   (i64.gt_s
+    (tee_local $2
+     (i64.xor
+      (tee_local $2
+       (i64.reinterpret/f64
+        (get_local $0)
+       )
+      )
+      (i64.shr_u
+       (i64.shr_s
+        (get_local $2)
+        (i64.const 63)
+       )
+       (i64.const 1)
+      )
+     )
+    )
+    (tee_local $3
+     (i64.xor
+      (tee_local $3
+       (i64.reinterpret/f64
+        (get_local $1)
+       )
+      )
+      (i64.shr_u
+       (i64.shr_s
+        (get_local $3)
+        (i64.const 63)
+       )
+       (i64.const 1)
+      )
+     )
+    )
+   )
+   (i64.lt_s
+    (get_local $2)
+    (get_local $3)
+   )
+  )
+ )
+ (func $~lib/array/Array<f64>#sort|trampoline (; 81 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (block $1of1
+   (block $0of1
+    (block $outOfRange
+     (br_table $0of1 $1of1 $outOfRange
+      (get_global $~argc)
+     )
+    )
+    (unreachable)
+   )
+   (set_local $1
+    (i32.const 968)
+   )
+  )
+  (call $~lib/array/Array<f64>#sort
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $~lib/array/Array<f64>#__get (; 82 ;) (; has Stack IR ;) (type $iiF) (param $0 i32) (param $1 i32) (result f64)
+  (if (result f64)
+   (i32.lt_u
+    (get_local $1)
+    (i32.shr_u
+     (i32.load
+      (tee_local $0
+       (i32.load
+        (get_local $0)
+       )
+      )
+     )
+     (i32.const 3)
+    )
+   )
+   (f64.load offset=8
+    (i32.add
+     (get_local $0)
+     (i32.shl
+      (get_local $1)
+      (i32.const 3)
+     )
+    )
+   )
+   (unreachable)
+  )
+ )
+ (func $~lib/builtins/isNaN<f64> (; 83 ;) (; has Stack IR ;) (type $Fi) (param $0 f64) (result i32)
+  (f64.ne
+   (get_local $0)
+   (get_local $0)
+  )
+ )
+ (func $std/array/isArraysEqual<f64> (; 84 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.load
+     (i32.const 1108)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (block $break|0
+   (loop $repeat|0
+    (block $continue|0
+     (br_if $break|0
+      (i32.ge_s
+       (get_local $1)
+       (get_local $3)
+      )
+     )
+     (if
+      (tee_local $2
+       (call $~lib/builtins/isNaN<f64>
+        (call $~lib/array/Array<f64>#__get
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+      )
+      (set_local $2
+       (i32.eq
+        (call $~lib/builtins/isNaN<f64>
+         (call $~lib/array/Array<f64>#__get
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+        (call $~lib/builtins/isNaN<f64>
+         (call $~lib/array/Array<f64>#__get
+          (i32.const 1104)
+          (get_local $1)
+         )
+        )
+       )
+      )
+     )
+     (br_if $continue|0
+      (get_local $2)
+     )
+     (if
+      (f64.ne
+       (call $~lib/array/Array<f64>#__get
+        (get_local $0)
+        (get_local $1)
+       )
+       (call $~lib/array/Array<f64>#__get
+        (i32.const 1104)
+        (get_local $1)
+       )
+      )
+      (return
+       (i32.const 0)
+      )
+     )
+    )
+    (set_local $1
+     (i32.add
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/internal/array/countRunAndMakeAscending<i32> (; 85 ;) (; has Stack IR ;) (type $iiiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (result i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (if
+   (i32.eq
+    (tee_local $5
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (get_local $3)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (set_global $~argc
+   (i32.const 2)
+  )
+  (set_local $6
+   (i32.load offset=8
+    (i32.add
+     (i32.add
+      (get_local $0)
+      (get_local $1)
+     )
+     (i32.shl
+      (get_local $5)
+      (i32.const 2)
+     )
+    )
+   )
+  )
+  (set_local $7
+   (i32.load offset=8
+    (i32.add
+     (i32.add
+      (get_local $0)
+      (get_local $1)
+     )
+     (i32.shl
+      (get_local $2)
+      (i32.const 2)
+     )
+    )
+   )
+  )
+  (set_global $~env
+   (get_local $4)
+  )
+  (if
+   (i32.lt_s
+    (call_indirect (type $iii)
+     (get_local $6)
+     (get_local $7)
+     (i32.load
+      (get_global $~env)
+     )
+    )
+    (i32.const 0)
+   )
+   (block
+    (set_local $5
+     (i32.add
+      (get_local $5)
+      (i32.const 1)
+     )
+    )
+    (loop $continue|0
+     (if
+      (tee_local $6
+       (i32.lt_s
+        (get_local $5)
+        (get_local $3)
+       )
+      )
+      (block
+       (set_global $~argc
+        (i32.const 2)
+       )
+       (set_local $6
+        (i32.load offset=8
+         (i32.add
+          (i32.add
+           (get_local $0)
+           (get_local $1)
+          )
+          (i32.shl
+           (get_local $5)
+           (i32.const 2)
+          )
+         )
+        )
+       )
+       (set_local $7
+        (i32.load offset=8
+         (i32.add
+          (i32.add
+           (get_local $0)
+           (get_local $1)
+          )
+          (i32.shl
+           (i32.sub
+            (get_local $5)
+            (i32.const 1)
+           )
+           (i32.const 2)
+          )
+         )
+        )
+       )
+       (set_global $~env
+        (get_local $4)
+       )
+       (set_local $6
+        (i32.lt_s
+         (call_indirect (type $iii)
+          (get_local $6)
+          (get_local $7)
+          (i32.load
+           (get_global $~env)
+          )
+         )
+         (i32.const 0)
+        )
+       )
+      )
+     )
+     (if
+      (get_local $6)
+      (block
+       (set_local $5
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (br $continue|0)
+      )
+     )
+    )
+    (block $break|1
+     (set_local $6
+      (get_local $2)
+     )
+     (set_local $7
+      (i32.sub
+       (get_local $5)
+       (i32.const 1)
+      )
+     )
+     (loop $repeat|1
+      (br_if $break|1
+       (i32.ge_s
+        (get_local $6)
+        (get_local $7)
+       )
+      )
+      (set_local $3
+       (i32.load offset=8
+        (i32.add
+         (i32.add
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.shl
+          (get_local $6)
+          (i32.const 2)
+         )
+        )
+       )
+      )
+      (i32.store offset=8
+       (i32.add
+        (i32.add
+         (get_local $0)
+         (get_local $1)
+        )
+        (i32.shl
+         (get_local $6)
+         (i32.const 2)
+        )
+       )
+       (i32.load offset=8
+        (i32.add
+         (i32.add
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.shl
+          (get_local $7)
+          (i32.const 2)
+         )
+        )
+       )
+      )
+      (i32.store offset=8
+       (i32.add
+        (i32.add
+         (get_local $0)
+         (get_local $1)
+        )
+        (i32.shl
+         (get_local $7)
+         (i32.const 2)
+        )
+       )
+       (get_local $3)
+      )
+      (set_local $6
+       (i32.add
+        (get_local $6)
+        (i32.const 1)
+       )
+      )
+      (set_local $7
+       (i32.sub
+        (get_local $7)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|1)
+     )
+    )
+   )
+   (block
+    (set_local $5
+     (i32.add
+      (get_local $5)
+      (i32.const 1)
+     )
+    )
+    (loop $continue|2
+     (if
+      (tee_local $7
+       (i32.lt_s
+        (get_local $5)
+        (get_local $3)
+       )
+      )
+      (block
+       (set_global $~argc
+        (i32.const 2)
+       )
+       (set_local $6
+        (i32.load offset=8
+         (i32.add
+          (i32.add
+           (get_local $0)
+           (get_local $1)
+          )
+          (i32.shl
+           (get_local $5)
+           (i32.const 2)
+          )
+         )
+        )
+       )
+       (set_local $7
+        (i32.load offset=8
+         (i32.add
+          (i32.add
+           (get_local $0)
+           (get_local $1)
+          )
+          (i32.shl
+           (i32.sub
+            (get_local $5)
+            (i32.const 1)
+           )
+           (i32.const 2)
+          )
+         )
+        )
+       )
+       (set_global $~env
+        (get_local $4)
+       )
+       (set_local $7
+        (i32.ge_s
+         (call_indirect (type $iii)
+          (get_local $6)
+          (get_local $7)
+          (i32.load
+           (get_global $~env)
+          )
+         )
+         (i32.const 0)
+        )
+       )
+      )
+     )
+     (if
+      (get_local $7)
+      (block
+       (set_local $5
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (br $continue|2)
+      )
+     )
+    )
+   )
+  )
+  (i32.sub
+   (get_local $5)
+   (get_local $2)
+  )
+ )
+ (func $~lib/internal/array/binaryInsertionSort<i32> (; 86 ;) (; has Stack IR ;) (type $iiiiiiv) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (param $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (set_local $8
+   (i32.add
+    (i32.add
+     (get_local $0)
+     (i32.const 8)
+    )
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $4)
+      (get_local $3)
+     )
+    )
+    (set_local $9
+     (i32.load offset=8
+      (i32.add
+       (i32.add
+        (get_local $0)
+        (get_local $1)
+       )
+       (i32.shl
+        (get_local $4)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (set_local $6
+     (get_local $2)
+    )
+    (set_local $7
+     (get_local $4)
+    )
+    (loop $continue|1
+     (if
+      (i32.lt_s
+       (get_local $6)
+       (get_local $7)
+      )
+      (block
+       (set_global $~argc
+        (i32.const 2)
+       )
+       (set_local $11
+        (i32.load offset=8
+         (i32.add
+          (i32.add
+           (get_local $0)
+           (get_local $1)
+          )
+          (i32.shl
+           (tee_local $10
+            (i32.shr_u
+             (i32.add
+              (get_local $6)
+              (get_local $7)
+             )
+             (i32.const 1)
+            )
+           )
+           (i32.const 2)
+          )
+         )
+        )
+       )
+       (set_global $~env
+        (get_local $5)
+       )
+       (if
+        (i32.lt_s
+         (call_indirect (type $iii)
+          (get_local $9)
+          (get_local $11)
+          (i32.load
+           (get_global $~env)
+          )
+         )
+         (i32.const 0)
+        )
+        (set_local $7
+         (get_local $10)
+        )
+        (set_local $6
+         (i32.add
+          (get_local $10)
+          (i32.const 1)
+         )
+        )
+       )
+       (br $continue|1)
+      )
+     )
+    )
+    (call $~lib/internal/memory/memmove
+     (i32.add
+      (get_local $8)
+      (i32.shl
+       (i32.add
+        (get_local $6)
+        (i32.const 1)
+       )
+       (i32.const 2)
+      )
+     )
+     (i32.add
+      (get_local $8)
+      (i32.shl
+       (get_local $6)
+       (i32.const 2)
+      )
+     )
+     (i32.shl
+      (i32.sub
+       (get_local $4)
+       (get_local $6)
+      )
+      (i32.const 2)
+     )
+    )
+    (i32.store offset=8
+     (i32.add
+      (i32.add
+       (get_local $0)
+       (get_local $1)
+      )
+      (i32.shl
+       (get_local $6)
+       (i32.const 2)
+      )
+     )
+     (get_local $9)
+    )
+    (set_local $4
+     (i32.add
+      (get_local $4)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $~lib/internal/array/mergeRunsAt<i32> (; 87 ;) (; has Stack IR ;) (type $iiiiiiiv) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (param $5 i32) (param $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (i32.store offset=4
+   (i32.add
+    (get_local $2)
+    (i32.shl
+     (get_local $4)
+     (i32.const 3)
+    )
+   )
+   (i32.sub
+    (tee_local $11
+     (i32.add
+      (tee_local $7
+       (i32.add
+        (tee_local $8
+         (i32.load
+          (tee_local $7
+           (i32.add
+            (get_local $2)
+            (i32.shl
+             (get_local $4)
+             (i32.const 3)
+            )
+           )
+          )
+         )
+        )
+        (tee_local $10
+         (i32.load offset=4
+          (get_local $7)
+         )
+        )
+       )
+      )
+      (i32.load offset=4
+       (i32.add
+        (get_local $2)
+        (i32.shl
+         (i32.add
+          (get_local $4)
+          (i32.const 1)
+         )
+         (i32.const 3)
+        )
+       )
+      )
+     )
+    )
+    (get_local $8)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $4)
+    (i32.sub
+     (get_local $3)
+     (i32.const 3)
+    )
+   )
+   (i64.store
+    (i32.add
+     (get_local $2)
+     (i32.shl
+      (i32.add
+       (get_local $4)
+       (i32.const 1)
+      )
+      (i32.const 3)
+     )
+    )
+    (i64.load
+     (i32.add
+      (get_local $2)
+      (i32.shl
+       (i32.add
+        (get_local $4)
+        (i32.const 2)
+       )
+       (i32.const 3)
+      )
+     )
+    )
+   )
+  )
+  (call $~lib/internal/memory/memmove
+   (get_local $5)
+   (i32.add
+    (tee_local $12
+     (i32.add
+      (i32.add
+       (get_local $0)
+       (i32.const 8)
+      )
+      (get_local $1)
+     )
+    )
+    (i32.shl
+     (get_local $8)
+     (i32.const 2)
+    )
+   )
+   (i32.shl
+    (get_local $10)
+    (i32.const 2)
+   )
+  )
+  (set_local $3
+   (get_local $8)
+  )
+  (loop $continue|0
+   (if
+    (tee_local $4
+     (i32.lt_s
+      (get_local $9)
+      (get_local $10)
+     )
+    )
+    (set_local $4
+     (i32.lt_s
+      (get_local $7)
+      (get_local $11)
+     )
+    )
+   )
+   (if
+    (get_local $4)
+    (block
+     (set_local $4
+      (i32.load
+       (i32.add
+        (get_local $5)
+        (i32.shl
+         (get_local $9)
+         (i32.const 2)
+        )
+       )
+      )
+     )
+     (set_local $8
+      (i32.load offset=8
+       (i32.add
+        (i32.add
+         (get_local $0)
+         (get_local $1)
+        )
+        (i32.shl
+         (get_local $7)
+         (i32.const 2)
+        )
+       )
+      )
+     )
+     (set_global $~argc
+      (i32.const 2)
+     )
+     (set_global $~env
+      (get_local $6)
+     )
+     (if
+      (i32.lt_s
+       (call_indirect (type $iii)
+        (get_local $8)
+        (get_local $4)
+        (i32.load
+         (get_global $~env)
+        )
+       )
+       (i32.const 0)
+      )
+      (block
+       (set_local $3
+        (i32.add
+         (tee_local $2
+          (get_local $3)
+         )
+         (i32.const 1)
+        )
+       )
+       (i32.store offset=8
+        (i32.add
+         (i32.add
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.shl
+          (get_local $2)
+          (i32.const 2)
+         )
+        )
+        (get_local $8)
+       )
+       (set_local $7
+        (i32.add
+         (get_local $7)
+         (i32.const 1)
+        )
+       )
+      )
+      (block
+       (set_local $3
+        (i32.add
+         (tee_local $2
+          (get_local $3)
+         )
+         (i32.const 1)
+        )
+       )
+       (i32.store offset=8
+        (i32.add
+         (i32.add
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.shl
+          (get_local $2)
+          (i32.const 2)
+         )
+        )
+        (get_local $4)
+       )
+       (set_local $9
+        (i32.add
+         (get_local $9)
+         (i32.const 1)
+        )
+       )
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (call $~lib/internal/memory/memmove
+   (i32.add
+    (get_local $12)
+    (i32.shl
+     (get_local $3)
+     (i32.const 2)
+    )
+   )
+   (i32.add
+    (get_local $5)
+    (i32.shl
+     (get_local $9)
+     (i32.const 2)
+    )
+   )
+   (i32.shl
+    (i32.sub
+     (get_local $10)
+     (get_local $9)
+    )
+    (i32.const 2)
+   )
+  )
+ )
+ (func $~lib/internal/array/timSort<i32> (; 88 ;) (; has Stack IR ;) (type $FUNCSIG$viii) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (if
+   (i32.lt_s
+    (get_local $1)
+    (i32.const 32)
+   )
+   (block
+    (call $~lib/internal/array/binaryInsertionSort<i32>
+     (get_local $0)
+     (i32.const 0)
+     (i32.const 0)
+     (get_local $1)
+     (call $~lib/internal/array/countRunAndMakeAscending<i32>
+      (get_local $0)
+      (i32.const 0)
+      (i32.const 0)
+      (get_local $1)
+      (get_local $2)
+     )
+     (get_local $2)
+    )
+    (return)
+   )
+  )
+  (set_local $8
+   (get_local $1)
+  )
+  (loop $continue|0
+   (if
+    (i32.ge_s
+     (get_local $8)
+     (i32.const 32)
+    )
+    (block
+     (set_local $5
+      (i32.or
+       (get_local $5)
+       (i32.and
+        (get_local $8)
+        (i32.const 1)
+       )
+      )
+     )
+     (set_local $8
+      (i32.shr_s
+       (get_local $8)
+       (i32.const 1)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (set_local $8
+   (i32.add
+    (get_local $8)
+    (get_local $5)
+   )
+  )
+  (set_local $4
+   (call $~lib/allocator/arena/__memory_allocate
+    (i32.const 512)
+   )
+  )
+  (set_local $10
+   (call $~lib/allocator/arena/__memory_allocate
+    (i32.shl
+     (get_local $1)
+     (i32.const 2)
+    )
+   )
+  )
+  (block $break|1
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.ge_s
+      (get_local $6)
+      (get_local $1)
+     )
+    )
+    (if
+     (i32.lt_s
+      (tee_local $9
+       (call $~lib/internal/array/countRunAndMakeAscending<i32>
+        (get_local $0)
+        (i32.const 0)
+        (get_local $6)
+        (get_local $1)
+        (get_local $2)
+       )
+      )
+      (get_local $8)
+     )
+     (block
+      (call $~lib/internal/array/binaryInsertionSort<i32>
+       (get_local $0)
+       (i32.const 0)
+       (get_local $6)
+       (i32.add
+        (get_local $6)
+        (tee_local $3
+         (select
+          (get_local $8)
+          (tee_local $5
+           (i32.sub
+            (get_local $1)
+            (get_local $6)
+           )
+          )
+          (i32.lt_s
+           (get_local $8)
+           (get_local $5)
+          )
+         )
+        )
+       )
+       (i32.add
+        (get_local $6)
+        (get_local $9)
+       )
+       (get_local $2)
+      )
+      (set_local $9
+       (get_local $3)
+      )
+     )
+    )
+    (i32.store
+     (tee_local $5
+      (i32.add
+       (get_local $4)
+       (i32.shl
+        (get_local $7)
+        (i32.const 3)
+       )
+      )
+     )
+     (get_local $6)
+    )
+    (i32.store offset=4
+     (get_local $5)
+     (get_local $9)
+    )
+    (set_local $7
+     (i32.add
+      (get_local $7)
+      (i32.const 1)
+     )
+    )
+    (set_local $6
+     (i32.add
+      (get_local $6)
+      (get_local $9)
+     )
+    )
+    (block $break|2
+     (loop $continue|2
+      (if
+       (i32.gt_s
+        (get_local $7)
+        (i32.const 1)
+       )
+       (block
+        (if
+         (tee_local $5
+          (i32.gt_s
+           (tee_local $3
+            (i32.sub
+             (get_local $7)
+             (i32.const 2)
+            )
+           )
+           (i32.const 0)
+          )
+         )
+         (set_local $5
+          (i32.le_s
+           (i32.load offset=4
+            (i32.add
+             (get_local $4)
+             (i32.shl
+              (i32.sub
+               (get_local $3)
+               (i32.const 1)
+              )
+              (i32.const 3)
+             )
+            )
+           )
+           (i32.add
+            (i32.load offset=4
+             (i32.add
+              (get_local $4)
+              (i32.shl
+               (get_local $3)
+               (i32.const 3)
+              )
+             )
+            )
+            (i32.load offset=4
+             (i32.add
+              (get_local $4)
+              (i32.shl
+               (i32.add
+                (get_local $3)
+                (i32.const 1)
+               )
+               (i32.const 3)
+              )
+             )
+            )
+           )
+          )
+         )
+        )
+        (if
+         (i32.eqz
+          (get_local $5)
+         )
+         (if
+          (tee_local $5
+           (i32.gt_s
+            (get_local $3)
+            (i32.const 1)
+           )
+          )
+          (set_local $5
+           (i32.le_s
+            (i32.load offset=4
+             (i32.add
+              (get_local $4)
+              (i32.shl
+               (i32.sub
+                (get_local $3)
+                (i32.const 2)
+               )
+               (i32.const 3)
+              )
+             )
+            )
+            (i32.add
+             (i32.load offset=4
+              (i32.add
+               (get_local $4)
+               (i32.shl
+                (i32.sub
+                 (get_local $3)
+                 (i32.const 1)
+                )
+                (i32.const 3)
+               )
+              )
+             )
+             (i32.load offset=4
+              (i32.add
+               (get_local $4)
+               (i32.shl
+                (get_local $3)
+                (i32.const 3)
+               )
+              )
+             )
+            )
+           )
+          )
+         )
+        )
+        (if
+         (get_local $5)
+         (if
+          (i32.lt_s
+           (i32.load offset=4
+            (i32.add
+             (get_local $4)
+             (i32.shl
+              (i32.sub
+               (get_local $3)
+               (i32.const 1)
+              )
+              (i32.const 3)
+             )
+            )
+           )
+           (i32.load offset=4
+            (i32.add
+             (get_local $4)
+             (i32.shl
+              (i32.add
+               (get_local $3)
+               (i32.const 1)
+              )
+              (i32.const 3)
+             )
+            )
+           )
+          )
+          (set_local $3
+           (i32.sub
+            (get_local $3)
+            (i32.const 1)
+           )
+          )
+         )
+         (br_if $break|2
+          (i32.gt_s
+           (i32.load offset=4
+            (i32.add
+             (get_local $4)
+             (i32.shl
+              (get_local $3)
+              (i32.const 3)
+             )
+            )
+           )
+           (i32.load offset=4
+            (i32.add
+             (get_local $4)
+             (i32.shl
+              (i32.add
+               (get_local $3)
+               (i32.const 1)
+              )
+              (i32.const 3)
+             )
+            )
+           )
+          )
+         )
+        )
+        (set_local $7
+         (i32.sub
+          (tee_local $5
+           (get_local $7)
+          )
+          (i32.const 1)
+         )
+        )
+        (call $~lib/internal/array/mergeRunsAt<i32>
+         (get_local $0)
+         (i32.const 0)
+         (get_local $4)
+         (get_local $5)
+         (get_local $3)
+         (get_local $10)
+         (get_local $2)
+        )
+        (br $continue|2)
+       )
+      )
+     )
+    )
+    (br $repeat|1)
+   )
+  )
+  (loop $continue|3
+   (if
+    (i32.gt_s
+     (get_local $7)
+     (i32.const 1)
+    )
+    (block
+     (if
+      (tee_local $9
+       (i32.gt_s
+        (tee_local $6
+         (i32.sub
+          (get_local $7)
+          (i32.const 2)
+         )
+        )
+        (i32.const 0)
+       )
+      )
+      (set_local $9
+       (i32.lt_s
+        (i32.load offset=4
+         (i32.add
+          (get_local $4)
+          (i32.shl
+           (i32.sub
+            (get_local $6)
+            (i32.const 1)
+           )
+           (i32.const 3)
+          )
+         )
+        )
+        (i32.load offset=4
+         (i32.add
+          (get_local $4)
+          (i32.shl
+           (i32.add
+            (get_local $6)
+            (i32.const 1)
+           )
+           (i32.const 3)
+          )
+         )
+        )
+       )
+      )
+     )
+     (if
+      (get_local $9)
+      (set_local $6
+       (i32.sub
+        (get_local $6)
+        (i32.const 1)
+       )
+      )
+     )
+     (set_local $7
+      (i32.sub
+       (tee_local $9
+        (get_local $7)
+       )
+       (i32.const 1)
+      )
+     )
+     (call $~lib/internal/array/mergeRunsAt<i32>
+      (get_local $0)
+      (i32.const 0)
+      (get_local $4)
+      (get_local $9)
+      (get_local $6)
+      (get_local $10)
+      (get_local $2)
+     )
+     (br $continue|3)
+    )
+   )
+  )
+  (call $~lib/allocator/arena/__memory_free)
+  (call $~lib/allocator/arena/__memory_free)
+ )
+ (func $~lib/array/Array<i32>#sort (; 89 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 456)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.le_s
+    (tee_local $2
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+    (i32.const 1)
+   )
+   (return
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $2)
+    (i32.const 2)
+   )
+   (block
+    (set_local $2
+     (i32.load offset=8
+      (i32.add
+       (get_local $3)
+       (i32.const 4)
+      )
+     )
+    )
+    (set_local $4
+     (i32.load offset=8
+      (get_local $3)
+     )
+    )
+    (set_global $~argc
+     (i32.const 2)
+    )
+    (set_global $~env
+     (get_local $1)
+    )
+    (if
+     (i32.lt_s
+      (call_indirect (type $iii)
+       (get_local $2)
+       (get_local $4)
+       (i32.load
+        (get_global $~env)
+       )
+      )
+      (i32.const 0)
+     )
+     (block
+      (i32.store offset=8
+       (i32.add
+        (get_local $3)
+        (i32.const 4)
+       )
+       (get_local $4)
+      )
+      (i32.store offset=8
+       (get_local $3)
+       (get_local $2)
+      )
+     )
+    )
+    (return
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/internal/array/timSort<i32>
+   (get_local $3)
+   (get_local $2)
+   (get_local $1)
+  )
+  (get_local $0)
+ )
+ (func $~lib/array/Array<i32>#sort|trampoline~anonymous|44 (; 90 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.sub
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $~lib/array/Array<i32>#sort|trampoline (; 91 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (block $1of1
+   (block $0of1
+    (block $outOfRange
+     (br_table $0of1 $1of1 $outOfRange
+      (get_global $~argc)
+     )
+    )
+    (unreachable)
+   )
+   (set_local $1
+    (i32.const 1152)
+   )
+  )
+  (call $~lib/array/Array<i32>#sort
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $std/array/isArraysEqual<i32> (; 92 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (block
+    (if
+     (i32.ne
+      (i32.load offset=4
+       (get_local $0)
+      )
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+     (return
+      (i32.const 0)
+     )
+    )
+    (set_local $2
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+   )
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $3)
+      (get_local $2)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/array/Array<i32>#__get
+       (get_local $0)
+       (get_local $3)
+      )
+      (call $~lib/array/Array<i32>#__get
+       (get_local $1)
+       (get_local $3)
+      )
+     )
+     (return
+      (i32.const 0)
+     )
+     (block
+      (set_local $3
+       (i32.add
+        (get_local $3)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|0)
+     )
+    )
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/array/Array<u32>#sort|trampoline~anonymous|45 (; 93 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.sub
+   (i32.gt_u
+    (get_local $0)
+    (get_local $1)
+   )
+   (i32.lt_u
+    (get_local $0)
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/array/Array<u32>#sort|trampoline (; 94 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (block $1of1
+   (block $0of1
+    (block $outOfRange
+     (br_table $0of1 $1of1 $outOfRange
+      (get_global $~argc)
+     )
+    )
+    (unreachable)
+   )
+   (set_local $1
+    (i32.const 1240)
+   )
+  )
+  (call $~lib/array/Array<i32>#sort
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $std/array/createReverseOrderedArray (; 95 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (call $~lib/array/Array<i32>#constructor
+    (get_local $0)
+   )
+  )
+  (block $break|0
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $0)
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+    )
+    (call $~lib/array/Array<i32>#__set
+     (get_local $1)
+     (get_local $0)
+     (i32.sub
+      (i32.sub
+       (i32.load offset=4
+        (get_local $1)
+       )
+       (i32.const 1)
+      )
+      (get_local $0)
+     )
+    )
+    (set_local $0
+     (i32.add
+      (get_local $0)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $1)
+ )
+ (func $~lib/math/NativeMath.random (; 96 ;) (; has Stack IR ;) (type $F) (result f64)
+  (local $0 i64)
+  (local $1 i64)
+  (if
+   (i32.eqz
+    (get_global $~lib/math/random_seeded)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 472)
+     (i32.const 1007)
+     (i32.const 24)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $0
+   (get_global $~lib/math/random_state0)
+  )
+  (set_global $~lib/math/random_state0
+   (tee_local $1
+    (get_global $~lib/math/random_state1)
+   )
+  )
+  (set_global $~lib/math/random_state1
+   (tee_local $0
+    (i64.xor
+     (i64.xor
+      (i64.xor
+       (tee_local $0
+        (i64.xor
+         (get_local $0)
+         (i64.shl
+          (get_local $0)
+          (i64.const 23)
+         )
+        )
+       )
+       (i64.shr_u
+        (get_local $0)
+        (i64.const 17)
+       )
+      )
+      (get_local $1)
+     )
+     (i64.shr_u
+      (get_local $1)
+      (i64.const 26)
+     )
+    )
+   )
+  )
+  (f64.sub
+   (f64.reinterpret/i64
+    (i64.or
+     (i64.and
+      (i64.add
+       (get_local $1)
+       (get_local $0)
+      )
+      (i64.const 4503599627370495)
+     )
+     (i64.const 4607182418800017408)
+    )
+   )
+   (f64.const 1)
+  )
+ )
+ (func $std/array/createRandomOrderedArray (; 97 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $0
+   (call $~lib/array/Array<i32>#constructor
+    (get_local $0)
+   )
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $1)
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+    )
+    (call $~lib/array/Array<i32>#__set
+     (get_local $0)
+     (get_local $1)
+     (i32.trunc_s/f64
+      (f64.mul
+       (call $~lib/math/NativeMath.random)
+       (f64.convert_s/i32
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+      )
+     )
+    )
+    (set_local $1
+     (i32.add
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $0)
+ )
+ (func $std/array/isSorted<i32> (; 98 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (block $break|0
+   (set_local $2
+    (i32.const 1)
+   )
+   (set_local $3
+    (i32.load offset=4
+     (get_local $0)
+    )
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (get_local $3)
+     )
+    )
+    (set_global $~argc
+     (i32.const 2)
+    )
+    (set_local $4
+     (call $~lib/array/Array<i32>#__get
+      (get_local $0)
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+    )
+    (set_local $5
+     (call $~lib/array/Array<i32>#__get
+      (get_local $0)
+      (get_local $2)
+     )
+    )
+    (set_global $~env
+     (get_local $1)
+    )
+    (if
+     (i32.gt_s
+      (call_indirect (type $iii)
+       (get_local $4)
+       (get_local $5)
+       (i32.load
+        (get_global $~env)
+       )
+      )
+      (i32.const 0)
+     )
+     (return
+      (i32.const 0)
+     )
+     (block
+      (set_local $2
+       (i32.add
+        (get_local $2)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|0)
+     )
+    )
+   )
+  )
+  (i32.const 1)
+ )
+ (func $std/array/assertSorted<i32> (; 99 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (if
+   (i32.eqz
+    (call $std/array/isSorted<i32>
+     (call $~lib/array/Array<i32>#sort
+      (get_local $0)
+      (get_local $1)
+     )
+     (get_local $1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 608)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+ )
+ (func $std/array/assertSortedDefault<i32> (; 100 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+  (call $std/array/assertSorted<i32>
+   (get_local $0)
+   (i32.const 1432)
+  )
+ )
+ (func $start~anonymous|48 (; 101 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.sub
+   (get_local $1)
+   (get_local $0)
+  )
+ )
+ (func $std/array/createReverseOrderedNestedArray (; 102 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (set_local $1
+   (call $~lib/array/Array<i32>#constructor
+    (i32.const 512)
+   )
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $0)
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+    )
+    (call $~lib/array/Array<i32>#__set
+     (get_local $1)
+     (get_local $0)
+     (call $~lib/array/Array<i32>#constructor
+      (i32.const 1)
+     )
+    )
+    (call $~lib/array/Array<i32>#__set
+     (call $~lib/array/Array<i32>#__get
+      (get_local $1)
+      (get_local $0)
+     )
+     (i32.const 0)
+     (i32.sub
+      (i32.sub
+       (i32.load offset=4
+        (get_local $1)
+       )
+       (i32.const 1)
+      )
+      (get_local $0)
+     )
+    )
+    (set_local $0
+     (i32.add
+      (get_local $0)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $1)
+ )
+ (func $start~anonymous|51 (; 103 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.sub
+   (call $~lib/array/Array<i32>#__get
+    (get_local $0)
+    (i32.const 0)
+   )
+   (call $~lib/array/Array<i32>#__get
+    (get_local $1)
+    (i32.const 0)
+   )
+  )
+ )
+ (func $std/array/Proxy<i32>#constructor (; 104 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (tee_local $1
+    (call $~lib/memory/memory.allocate
+     (i32.const 4)
+    )
+   )
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $std/array/createReverseOrderedElementsArray (; 105 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (set_local $1
+   (call $~lib/array/Array<i32>#constructor
+    (i32.const 512)
+   )
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $0)
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+    )
+    (call $~lib/array/Array<i32>#__set
+     (get_local $1)
+     (get_local $0)
+     (call $std/array/Proxy<i32>#constructor
+      (i32.sub
+       (i32.sub
+        (i32.load offset=4
+         (get_local $1)
+        )
+        (i32.const 1)
+       )
+       (get_local $0)
+      )
+     )
+    )
+    (set_local $0
+     (i32.add
+      (get_local $0)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $1)
+ )
+ (func $start~anonymous|52 (; 106 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.sub
+   (i32.load
+    (get_local $0)
+   )
+   (i32.load
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/internal/string/compareUnsafe (; 107 ;) (; has Stack IR ;) (type $FUNCSIG$iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (get_local $0)
+  )
+  (loop $continue|0
+   (if
+    (tee_local $0
+     (if (result i32)
+      (get_local $2)
+      (i32.eqz
+       (tee_local $4
+        (i32.sub
+         (i32.load16_u offset=4
+          (get_local $3)
+         )
+         (i32.load16_u offset=4
+          (get_local $1)
+         )
+        )
+       )
+      )
+      (get_local $2)
+     )
+    )
+    (block
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (set_local $3
+      (i32.add
+       (get_local $3)
+       (i32.const 2)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (get_local $4)
+ )
+ (func $~lib/string/String.__gt (; 108 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.eq
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+   )
+   (set_local $2
+    (i32.eqz
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (set_local $2
+    (i32.eqz
+     (get_local $1)
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.load
+      (get_local $0)
+     )
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $3)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (i32.gt_s
+   (call $~lib/internal/string/compareUnsafe
+    (get_local $0)
+    (get_local $1)
+    (select
+     (get_local $2)
+     (get_local $3)
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/string/String.__lt (; 109 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.eq
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+   )
+   (set_local $2
+    (i32.eqz
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (set_local $2
+    (i32.eqz
+     (get_local $1)
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $3
+     (i32.load
+      (get_local $1)
+     )
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (i32.lt_s
+   (call $~lib/internal/string/compareUnsafe
+    (get_local $0)
+    (get_local $1)
+    (select
+     (get_local $2)
+     (get_local $3)
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $start~anonymous|53 (; 110 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.sub
+   (call $~lib/string/String.__gt
+    (get_local $0)
+    (get_local $1)
+   )
+   (call $~lib/string/String.__lt
+    (get_local $0)
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/string/String.__eq (; 111 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.eqz
+      (get_local $0)
+     )
+    )
+   )
+   (set_local $2
+    (i32.eqz
+     (get_local $1)
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (return
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.ne
+    (tee_local $2
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (i32.load
+     (get_local $1)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.eqz
+   (call $~lib/internal/string/compareUnsafe
+    (get_local $0)
+    (get_local $1)
+    (get_local $2)
+   )
+  )
+ )
+ (func $~lib/string/String.__ne (; 112 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.eqz
+   (call $~lib/string/String.__eq
+    (get_local $0)
+    (get_local $1)
+   )
+  )
+ )
+ (func $std/array/isArraysEqual<String> (; 113 ;) (; has Stack IR ;) (type $FUNCSIG$iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.load offset=4
+     (get_local $1)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (get_local $3)
+     )
+    )
+    (if
+     (call $~lib/string/String.__ne
+      (call $~lib/array/Array<i32>#__get
+       (get_local $0)
+       (get_local $2)
+      )
+      (call $~lib/array/Array<i32>#__get
+       (get_local $1)
+       (get_local $2)
+      )
+     )
+     (return
+      (i32.const 0)
+     )
+     (block
+      (set_local $2
+       (i32.add
+        (get_local $2)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|0)
+     )
+    )
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/internal/string/allocateUnsafe (; 114 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (tee_local $1
+    (i32.gt_s
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (set_local $1
+    (i32.le_s
+     (get_local $0)
+     (i32.const 536870910)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 1760)
+     (i32.const 28)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $1
+    (call $~lib/allocator/arena/__memory_allocate
+     (i32.add
+      (i32.shl
+       (get_local $0)
+       (i32.const 1)
+      )
+      (i32.const 4)
+     )
+    )
+   )
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/string/String#charAt (; 115 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.ge_u
+    (get_local $0)
+    (i32.load
+     (i32.const 504)
+    )
+   )
+   (return
+    (i32.const 1568)
+   )
+  )
+  (i32.store16 offset=4
+   (tee_local $1
+    (call $~lib/internal/string/allocateUnsafe
+     (i32.const 1)
+    )
+   )
+   (i32.load16_u offset=4
+    (i32.add
+     (i32.shl
+      (get_local $0)
+      (i32.const 1)
+     )
+     (i32.const 504)
+    )
+   )
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/string/copyUnsafe (; 116 ;) (; has Stack IR ;) (type $FUNCSIG$viiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32)
+  (call $~lib/internal/memory/memmove
+   (i32.add
+    (i32.add
+     (get_local $0)
+     (i32.shl
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.add
+    (get_local $2)
+    (i32.const 4)
+   )
+   (i32.shl
+    (get_local $3)
+    (i32.const 1)
+   )
+  )
+ )
+ (func $~lib/string/String#concat (; 117 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 1728)
+     (i32.const 131)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (set_local $1
+    (i32.const 1816)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.add
+      (tee_local $3
+       (i32.load
+        (get_local $0)
+       )
+      )
+      (tee_local $4
+       (i32.load
+        (get_local $1)
+       )
+      )
+     )
+    )
+   )
+   (return
+    (i32.const 1568)
+   )
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (tee_local $2
+    (call $~lib/internal/string/allocateUnsafe
+     (get_local $2)
+    )
+   )
+   (i32.const 0)
+   (get_local $0)
+   (get_local $3)
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (get_local $2)
+   (get_local $3)
+   (get_local $1)
+   (get_local $4)
+  )
+  (get_local $2)
+ )
+ (func $~lib/string/String.__concat (; 118 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (set_local $0
+    (i32.const 1816)
+   )
+  )
+  (call $~lib/string/String#concat
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $std/array/createRandomString (; 119 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (set_local $1
+   (i32.const 1568)
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (get_local $0)
+     )
+    )
+    (set_local $1
+     (call $~lib/string/String.__concat
+      (get_local $1)
+      (call $~lib/string/String#charAt
+       (i32.trunc_s/f64
+        (f64.floor
+         (f64.mul
+          (call $~lib/math/NativeMath.random)
+          (f64.convert_s/i32
+           (i32.load
+            (i32.const 504)
+           )
+          )
+         )
+        )
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $1)
+ )
+ (func $std/array/createRandomStringArray (; 120 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (set_local $1
+   (call $~lib/array/Array<i32>#constructor
+    (i32.const 400)
+   )
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $0)
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+    )
+    (call $~lib/array/Array<i32>#__set
+     (get_local $1)
+     (get_local $0)
+     (call $std/array/createRandomString
+      (i32.trunc_s/f64
+       (f64.mul
+        (call $~lib/math/NativeMath.random)
+        (f64.const 32)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (i32.add
+      (get_local $0)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $1)
+ )
+ (func $start~anonymous|55 (; 121 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.sub
+   (i32.and
+    (i32.load
+     (get_local $0)
+    )
+    (i32.const 3)
+   )
+   (i32.and
+    (i32.load
+     (get_local $1)
+    )
+    (i32.const 3)
+   )
+  )
+ )
+ (func $~lib/internal/itoa/decimalCountU32 (; 122 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (i32.const 1952)
+     )
+     (i32.shl
+      (tee_local $1
+       (i32.shr_u
+        (i32.mul
+         (i32.sub
+          (i32.const 32)
+          (i32.clz
+           (get_local $0)
+          )
+         )
+         (i32.const 1233)
+        )
+        (i32.const 12)
+       )
+      )
+      (i32.const 2)
+     )
+    )
+   )
+  )
+  (i32.add
+   (i32.sub
+    (get_local $1)
+    (i32.lt_u
+     (get_local $0)
+     (get_local $2)
+    )
+   )
+   (i32.const 1)
+  )
+ )
+ (func $~lib/internal/itoa/utoa32_lut (; 123 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load
+    (i32.const 2472)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.ge_u
+     (get_local $1)
+     (i32.const 10000)
+    )
+    (block
+     (set_local $4
+      (i32.rem_u
+       (get_local $1)
+       (i32.const 10000)
+      )
+     )
+     (set_local $1
+      (i32.div_u
+       (get_local $1)
+       (i32.const 10000)
+      )
+     )
+     (i64.store offset=4
+      (i32.add
+       (get_local $0)
+       (i32.shl
+        (tee_local $2
+         (i32.sub
+          (get_local $2)
+          (i32.const 4)
+         )
+        )
+        (i32.const 1)
+       )
+      )
+      (i64.or
+       (i64.load32_u offset=8
+        (i32.add
+         (get_local $3)
+         (i32.shl
+          (i32.div_u
+           (get_local $4)
+           (i32.const 100)
+          )
+          (i32.const 2)
+         )
+        )
+       )
+       (i64.shl
+        (i64.load32_u offset=8
+         (i32.add
+          (get_local $3)
+          (i32.shl
+           (i32.rem_u
+            (get_local $4)
+            (i32.const 100)
+           )
+           (i32.const 2)
+          )
+         )
+        )
+        (i64.const 32)
+       )
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (i32.const 100)
+   )
+   (block
+    (set_local $4
+     (i32.rem_u
+      (get_local $1)
+      (i32.const 100)
+     )
+    )
+    (set_local $1
+     (i32.div_u
+      (get_local $1)
+      (i32.const 100)
+     )
+    )
+    (i32.store offset=4
+     (i32.add
+      (get_local $0)
+      (i32.shl
+       (tee_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 2)
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (i32.load offset=8
+      (i32.add
+       (get_local $3)
+       (i32.shl
+        (get_local $4)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (i32.const 10)
+   )
+   (i32.store offset=4
+    (i32.add
+     (get_local $0)
+     (i32.shl
+      (i32.sub
+       (get_local $2)
+       (i32.const 2)
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.load offset=8
+     (i32.add
+      (get_local $3)
+      (i32.shl
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+    )
+   )
+   (i32.store16 offset=4
+    (i32.add
+     (get_local $0)
+     (i32.shl
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.add
+     (get_local $1)
+     (i32.const 48)
+    )
+   )
+  )
+ )
+ (func $~lib/internal/itoa/itoa32 (; 124 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return
+    (i32.const 1880)
+   )
+  )
+  (if
+   (tee_local $1
+    (i32.lt_s
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (set_local $0
+    (i32.sub
+     (i32.const 0)
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/internal/itoa/utoa32_lut
+   (tee_local $2
+    (call $~lib/internal/string/allocateUnsafe
+     (tee_local $3
+      (i32.add
+       (call $~lib/internal/itoa/decimalCountU32
+        (get_local $0)
+       )
+       (get_local $1)
+      )
+     )
+    )
+   )
+   (get_local $0)
+   (get_local $3)
+  )
+  (if
+   (get_local $1)
+   (i32.store16 offset=4
+    (get_local $2)
+    (i32.const 45)
+   )
+  )
+  (get_local $2)
+ )
+ (func $~lib/internal/itoa/itoa<i32> (; 125 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/internal/itoa/itoa32
+   (get_local $0)
+  )
+ )
+ (func $~lib/internal/array/joinElement<i32> (; 126 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/internal/itoa/itoa<i32>
+   (get_local $0)
+  )
+ )
+ (func $~lib/array/Array<i32>#join (; 127 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eqz
+    (tee_local $3
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+   )
+   (return
+    (i32.const 1568)
+   )
+  )
+  (set_local $0
+   (call $~lib/internal/array/joinElement<i32>
+    (i32.load offset=8
+     (tee_local $4
+      (i32.load
+       (get_local $0)
+      )
+     )
+    )
+   )
+  )
+  (block $break|0
+   (set_local $2
+    (i32.const 1)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (get_local $3)
+     )
+    )
+    (set_local $0
+     (call $~lib/string/String.__concat
+      (call $~lib/string/String.__concat
+       (get_local $0)
+       (get_local $1)
+      )
+      (call $~lib/internal/array/joinElement<i32>
+       (i32.load offset=8
+        (i32.add
+         (get_local $4)
+         (i32.shl
+          (get_local $2)
+          (i32.const 2)
+         )
+        )
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/dtoa/formatNonFinite (; 128 ;) (; has Stack IR ;) (type $Fi) (param $0 f64) (result i32)
+  (if
+   (f64.ne
+    (get_local $0)
+    (get_local $0)
+   )
+   (return
+    (i32.const 2768)
+   )
+  )
+  (if (result i32)
+   (f64.lt
+    (get_local $0)
+    (f64.const 0)
+   )
+   (i32.const 2784)
+   (i32.const 2808)
+  )
+ )
+ (func $~lib/internal/dtoa/umul128 (; 129 ;) (; has Stack IR ;) (type $III) (param $0 i64) (param $1 i64) (result i64)
+  (local $2 i64)
+  (local $3 i64)
+  (local $4 i64)
+  (set_local $3
+   (i64.mul
+    (tee_local $4
+     (i64.shr_u
+      (get_local $0)
+      (i64.const 32)
+     )
+    )
+    (tee_local $2
+     (i64.and
+      (get_local $1)
+      (i64.const 4294967295)
+     )
+    )
+   )
+  )
+  (set_local $2
+   (i64.mul
+    (tee_local $0
+     (i64.and
+      (get_local $0)
+      (i64.const 4294967295)
+     )
+    )
+    (get_local $2)
+   )
+  )
+  (set_local $3
+   (i64.add
+    (i64.mul
+     (get_local $0)
+     (tee_local $1
+      (i64.shr_u
+       (get_local $1)
+       (i64.const 32)
+      )
+     )
+    )
+    (i64.and
+     (tee_local $0
+      (i64.add
+       (get_local $3)
+       (i64.shr_u
+        (get_local $2)
+        (i64.const 32)
+       )
+      )
+     )
+     (i64.const 4294967295)
+    )
+   )
+  )
+  (set_global $~lib/internal/dtoa/_hi
+   (i64.add
+    (i64.add
+     (i64.mul
+      (get_local $4)
+      (get_local $1)
+     )
+     (i64.shr_u
+      (get_local $0)
+      (i64.const 32)
+     )
+    )
+    (i64.shr_u
+     (get_local $3)
+     (i64.const 32)
+    )
+   )
+  )
+  (i64.or
+   (i64.shl
+    (get_local $3)
+    (i64.const 32)
+   )
+   (i64.and
+    (get_local $2)
+    (i64.const 4294967295)
+   )
+  )
+ )
+ (func $~lib/internal/dtoa/mulShift64 (; 130 ;) (; has Stack IR ;) (type $IIIiI) (param $0 i64) (param $1 i64) (param $2 i64) (param $3 i32) (result i64)
+  (drop
+   (call $~lib/internal/dtoa/umul128
+    (get_local $0)
+    (get_local $1)
+   )
+  )
+  (set_local $1
+   (get_global $~lib/internal/dtoa/_hi)
+  )
+  (set_local $0
+   (call $~lib/internal/dtoa/umul128
+    (get_local $0)
+    (get_local $2)
+   )
+  )
+  (i64.or
+   (i64.shl
+    (tee_local $0
+     (i64.add
+      (get_global $~lib/internal/dtoa/_hi)
+      (i64.extend_u/i32
+       (i64.lt_u
+        (tee_local $1
+         (i64.add
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+        (get_local $0)
+       )
+      )
+     )
+    )
+    (i64.sub
+     (i64.const 64)
+     (tee_local $0
+      (i64.extend_s/i32
+       (i32.add
+        (get_local $3)
+        (i32.const -64)
+       )
+      )
+     )
+    )
+   )
+   (i64.shr_u
+    (get_local $1)
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/internal/dtoa/pow5Factor (; 131 ;) (; has Stack IR ;) (type $Ii) (param $0 i64) (result i32)
+  (local $1 i32)
+  (loop $continue|0
+   (if
+    (i64.eqz
+     (i64.rem_u
+      (get_local $0)
+      (i64.const 5)
+     )
+    )
+    (block
+     (set_local $0
+      (i64.div_u
+       (get_local $0)
+       (i64.const 5)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/dtoa/ryu64 (; 132 ;) (; has Stack IR ;) (type $Iiv) (param $0 i64) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i64)
+  (local $5 i64)
+  (local $6 i64)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i64)
+  (local $11 i64)
+  (local $12 i32)
+  (local $13 i32)
+  (set_local $12
+   (i64.eqz
+    (i64.and
+     (tee_local $4
+      (if (result i64)
+       (get_local $1)
+       (block (result i64)
+        (set_local $3
+         (i32.add
+          (get_local $1)
+          (i32.const -1077)
+         )
+        )
+        (i64.or
+         (get_local $0)
+         (i64.const 4503599627370496)
+        )
+       )
+       (block (result i64)
+        (set_local $3
+         (i32.const -1076)
+        )
+        (get_local $0)
+       )
+      )
+     )
+     (i64.const 1)
+    )
+   )
+  )
+  (set_local $6
+   (i64.shl
+    (get_local $4)
+    (i64.const 2)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i64.ne
+      (get_local $0)
+      (i64.const 0)
+     )
+    )
+   )
+   (set_local $2
+    (i32.le_s
+     (get_local $1)
+     (i32.const 1)
+    )
+   )
+  )
+  (set_local $11
+   (i64.extend_u/i32
+    (get_local $2)
+   )
+  )
+  (if
+   (i32.ge_s
+    (get_local $3)
+    (i32.const 0)
+   )
+   (block
+    (set_local $13
+     (tee_local $2
+      (i32.sub
+       (i32.shr_u
+        (i32.mul
+         (get_local $3)
+         (i32.const 78913)
+        )
+        (i32.const 18)
+       )
+       (i32.gt_s
+        (get_local $3)
+        (i32.const 3)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (call $~lib/internal/dtoa/mulShift64
+      (get_local $6)
+      (tee_local $4
+       (i64.load offset=8
+        (i32.add
+         (tee_local $9
+          (i32.load
+           (i32.const 11024)
+          )
+         )
+         (i32.shl
+          (get_local $2)
+          (i32.const 4)
+         )
+        )
+       )
+      )
+      (tee_local $10
+       (i64.load offset=8
+        (i32.add
+         (get_local $9)
+         (i32.shl
+          (i32.add
+           (i32.shl
+            (get_local $2)
+            (i32.const 1)
+           )
+           (i32.const 1)
+          )
+          (i32.const 3)
+         )
+        )
+       )
+      )
+      (tee_local $3
+       (i32.add
+        (i32.add
+         (i32.sub
+          (get_local $2)
+          (get_local $3)
+         )
+         (i32.shr_u
+          (i32.mul
+           (get_local $2)
+           (i32.const 1217359)
+          )
+          (i32.const 19)
+         )
+        )
+        (i32.const 125)
+       )
+      )
+     )
+    )
+    (set_local $5
+     (call $~lib/internal/dtoa/mulShift64
+      (i64.add
+       (get_local $6)
+       (i64.const 2)
+      )
+      (get_local $4)
+      (get_local $10)
+      (get_local $3)
+     )
+    )
+    (set_local $4
+     (call $~lib/internal/dtoa/mulShift64
+      (i64.sub
+       (i64.sub
+        (get_local $6)
+        (i64.const 1)
+       )
+       (get_local $11)
+      )
+      (get_local $4)
+      (get_local $10)
+      (get_local $3)
+     )
+    )
+    (if
+     (i32.le_s
+      (get_local $2)
+      (i32.const 21)
+     )
+     (if
+      (i64.eqz
+       (i64.rem_u
+        (get_local $6)
+        (i64.const 5)
+       )
+      )
+      (set_local $7
+       (i32.ge_s
+        (call $~lib/internal/dtoa/pow5Factor
+         (get_local $6)
+        )
+        (get_local $2)
+       )
+      )
+      (if
+       (get_local $12)
+       (set_local $8
+        (i32.ge_s
+         (call $~lib/internal/dtoa/pow5Factor
+          (i64.sub
+           (i64.sub
+            (get_local $6)
+            (i64.const 1)
+           )
+           (get_local $11)
+          )
+         )
+         (get_local $2)
+        )
+       )
+       (set_local $5
+        (i64.sub
+         (get_local $5)
+         (i64.extend_u/i32
+          (i32.ge_s
+           (call $~lib/internal/dtoa/pow5Factor
+            (i64.add
+             (get_local $6)
+             (i64.const 2)
+            )
+           )
+           (get_local $2)
+          )
+         )
+        )
+       )
+      )
+     )
+    )
+   )
+   (block
+    (set_local $13
+     (i32.add
+      (tee_local $9
+       (i32.sub
+        (i32.shr_u
+         (i32.mul
+          (i32.sub
+           (i32.const 0)
+           (get_local $3)
+          )
+          (i32.const 732923)
+         )
+         (i32.const 20)
+        )
+        (i32.gt_s
+         (tee_local $1
+          (i32.sub
+           (i32.const 0)
+           (get_local $3)
+          )
+         )
+         (i32.const 1)
+        )
+       )
+      )
+      (get_local $3)
+     )
+    )
+    (set_local $2
+     (i32.add
+      (i32.shr_u
+       (i32.mul
+        (tee_local $3
+         (i32.sub
+          (get_local $1)
+          (get_local $9)
+         )
+        )
+        (i32.const 1217359)
+       )
+       (i32.const 19)
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $0
+     (call $~lib/internal/dtoa/mulShift64
+      (get_local $6)
+      (tee_local $10
+       (i64.load offset=8
+        (i32.add
+         (tee_local $1
+          (i32.load
+           (i32.const 19224)
+          )
+         )
+         (i32.shl
+          (get_local $3)
+          (i32.const 4)
+         )
+        )
+       )
+      )
+      (tee_local $4
+       (i64.load offset=8
+        (i32.add
+         (get_local $1)
+         (i32.shl
+          (i32.add
+           (i32.shl
+            (get_local $3)
+            (i32.const 1)
+           )
+           (i32.const 1)
+          )
+          (i32.const 3)
+         )
+        )
+       )
+      )
+      (tee_local $2
+       (i32.add
+        (i32.sub
+         (get_local $9)
+         (get_local $2)
+        )
+        (i32.const 125)
+       )
+      )
+     )
+    )
+    (set_local $5
+     (call $~lib/internal/dtoa/mulShift64
+      (i64.add
+       (get_local $6)
+       (i64.const 2)
+      )
+      (get_local $10)
+      (get_local $4)
+      (get_local $2)
+     )
+    )
+    (set_local $4
+     (call $~lib/internal/dtoa/mulShift64
+      (i64.sub
+       (i64.sub
+        (get_local $6)
+        (i64.const 1)
+       )
+       (get_local $11)
+      )
+      (get_local $10)
+      (get_local $4)
+      (get_local $2)
+     )
+    )
+    (if
+     (i32.le_s
+      (get_local $9)
+      (i32.const 1)
+     )
+     (block
+      (set_local $7
+       (i32.const 1)
+      )
+      (if
+       (get_local $12)
+       (set_local $8
+        (i64.eq
+         (get_local $11)
+         (i64.const 1)
+        )
+       )
+       (set_local $5
+        (i64.sub
+         (get_local $5)
+         (i64.const 1)
+        )
+       )
+      )
+     )
+     (if
+      (i32.lt_s
+       (get_local $9)
+       (i32.const 63)
+      )
+      (set_local $7
+       (i64.eqz
+        (i64.and
+         (get_local $6)
+         (i64.sub
+          (i64.shl
+           (i64.const 1)
+           (i64.extend_s/i32
+            (get_local $9)
+           )
+          )
+          (i64.const 1)
+         )
+        )
+       )
+      )
+     )
+    )
+   )
+  )
+  (set_local $3
+   (i32.const 0)
+  )
+  (set_local $2
+   (i32.const 0)
+  )
+  (if
+   (tee_local $1
+    (if (result i32)
+     (get_local $8)
+     (get_local $8)
+     (get_local $7)
+    )
+   )
+   (block
+    (loop $continue|0
+     (if
+      (i64.gt_u
+       (i64.div_u
+        (get_local $5)
+        (i64.const 10)
+       )
+       (i64.div_u
+        (get_local $4)
+        (i64.const 10)
+       )
+      )
+      (block
+       (if
+        (get_local $8)
+        (set_local $8
+         (i64.eqz
+          (i64.rem_u
+           (get_local $4)
+           (i64.const 10)
+          )
+         )
+        )
+       )
+       (if
+        (get_local $7)
+        (set_local $7
+         (i32.eqz
+          (get_local $2)
+         )
+        )
+       )
+       (set_local $2
+        (i32.wrap/i64
+         (i64.rem_u
+          (get_local $0)
+          (i64.const 10)
+         )
+        )
+       )
+       (set_local $0
+        (i64.div_u
+         (get_local $0)
+         (i64.const 10)
+        )
+       )
+       (set_local $5
+        (i64.div_u
+         (get_local $5)
+         (i64.const 10)
+        )
+       )
+       (set_local $4
+        (i64.div_u
+         (get_local $4)
+         (i64.const 10)
+        )
+       )
+       (set_local $3
+        (i32.add
+         (get_local $3)
+         (i32.const 1)
+        )
+       )
+       (br $continue|0)
+      )
+     )
+    )
+    (if
+     (get_local $8)
+     (loop $continue|1
+      (if
+       (i64.eqz
+        (i64.rem_u
+         (get_local $4)
+         (i64.const 10)
+        )
+       )
+       (block
+        (if
+         (get_local $7)
+         (set_local $7
+          (i32.eqz
+           (get_local $2)
+          )
+         )
+        )
+        (set_local $2
+         (i32.wrap/i64
+          (i64.rem_u
+           (get_local $0)
+           (i64.const 10)
+          )
+         )
+        )
+        (set_local $0
+         (i64.div_u
+          (get_local $0)
+          (i64.const 10)
+         )
+        )
+        (set_local $5
+         (i64.div_u
+          (get_local $5)
+          (i64.const 10)
+         )
+        )
+        (set_local $4
+         (i64.div_u
+          (get_local $4)
+          (i64.const 10)
+         )
+        )
+        (set_local $3
+         (i32.add
+          (get_local $3)
+          (i32.const 1)
+         )
+        )
+        (br $continue|1)
+       )
+      )
+     )
+    )
+    (if
+     (tee_local $1
+      (if (result i32)
+       (get_local $7)
+       (i32.eq
+        (get_local $2)
+        (i32.const 5)
+       )
+       (get_local $7)
+      )
+     )
+     (set_local $1
+      (i64.eqz
+       (i64.and
+        (get_local $0)
+        (i64.const 1)
+       )
+      )
+     )
+    )
+    (if
+     (get_local $1)
+     (set_local $2
+      (i32.const 4)
+     )
+    )
+    (if
+     (tee_local $1
+      (i64.eq
+       (get_local $0)
+       (get_local $4)
+      )
+     )
+     (if
+      (i32.eqz
+       (tee_local $1
+        (i32.eqz
+         (get_local $12)
+        )
+       )
+      )
+      (set_local $1
+       (i32.eqz
+        (get_local $8)
+       )
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (get_local $1)
+     )
+     (set_local $1
+      (i32.ge_u
+       (get_local $2)
+       (i32.const 5)
+      )
+     )
+    )
+   )
+   (block
+    (loop $continue|2
+     (if
+      (i64.gt_u
+       (i64.div_u
+        (get_local $5)
+        (i64.const 10)
+       )
+       (i64.div_u
+        (get_local $4)
+        (i64.const 10)
+       )
+      )
+      (block
+       (set_local $2
+        (i32.wrap/i64
+         (i64.rem_u
+          (get_local $0)
+          (i64.const 10)
+         )
+        )
+       )
+       (set_local $0
+        (i64.div_u
+         (get_local $0)
+         (i64.const 10)
+        )
+       )
+       (set_local $5
+        (i64.div_u
+         (get_local $5)
+         (i64.const 10)
+        )
+       )
+       (set_local $4
+        (i64.div_u
+         (get_local $4)
+         (i64.const 10)
+        )
+       )
+       (set_local $3
+        (i32.add
+         (get_local $3)
+         (i32.const 1)
+        )
+       )
+       (br $continue|2)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (tee_local $1
+       (i64.eq
+        (get_local $0)
+        (get_local $4)
+       )
+      )
+     )
+     (set_local $1
+      (i32.ge_u
+       (get_local $2)
+       (i32.const 5)
+      )
+     )
+    )
+   )
+  )
+  (set_global $~lib/internal/dtoa/_output
+   (i64.add
+    (get_local $0)
+    (i64.extend_u/i32
+     (get_local $1)
+    )
+   )
+  )
+  (set_global $~lib/internal/dtoa/_exp10
+   (i32.add
+    (get_local $13)
+    (get_local $3)
+   )
+  )
+ )
+ (func $~lib/internal/dtoa/decimalCount (; 133 ;) (; has Stack IR ;) (type $Ii) (param $0 i64) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.const 1)
+  )
+  (loop $continue|0
+   (if
+    (i64.ge_u
+     (get_local $0)
+     (i64.const 10)
+    )
+    (block
+     (set_local $0
+      (i64.div_u
+       (get_local $0)
+       (i64.const 10)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/dtoa/writeDigits (; 134 ;) (; has Stack IR ;) (type $iIiv) (param $0 i32) (param $1 i64) (param $2 i32)
+  (loop $continue|0
+   (if
+    (get_local $2)
+    (block
+     (i32.store16
+      (i32.add
+       (get_local $0)
+       (i32.shl
+        (tee_local $2
+         (i32.sub
+          (get_local $2)
+          (i32.const 1)
+         )
+        )
+        (i32.const 1)
+       )
+      )
+      (i32.add
+       (i32.wrap/i64
+        (i64.rem_u
+         (get_local $1)
+         (i64.const 10)
+        )
+       )
+       (i32.const 48)
+      )
+     )
+     (set_local $1
+      (i64.div_u
+       (get_local $1)
+       (i64.const 10)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+ )
+ (func $~lib/internal/dtoa/formatPositional (; 135 ;) (; has Stack IR ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (if
+   (i32.ge_s
+    (get_local $2)
+    (get_local $1)
+   )
+   (block
+    (call $~lib/internal/memory/memmove
+     (tee_local $4
+      (i32.add
+       (i32.add
+        (tee_local $6
+         (call $~lib/internal/string/allocateUnsafe
+          (i32.add
+           (tee_local $4
+            (i32.and
+             (get_local $3)
+             (i32.const 1)
+            )
+           )
+           (get_local $2)
+          )
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.shl
+        (get_local $4)
+        (i32.const 1)
+       )
+      )
+     )
+     (get_local $0)
+     (i32.shl
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (block $break|0
+     (loop $repeat|0
+      (br_if $break|0
+       (i32.ge_s
+        (get_local $1)
+        (get_local $2)
+       )
+      )
+      (i32.store16
+       (i32.add
+        (get_local $4)
+        (i32.shl
+         (get_local $1)
+         (i32.const 1)
+        )
+       )
+       (i32.const 48)
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|0)
+     )
+    )
+   )
+   (if
+    (i32.gt_s
+     (get_local $2)
+     (i32.const 0)
+    )
+    (block
+     (call $~lib/internal/memory/memmove
+      (tee_local $4
+       (i32.add
+        (i32.add
+         (tee_local $6
+          (call $~lib/internal/string/allocateUnsafe
+           (i32.add
+            (i32.add
+             (tee_local $4
+              (i32.and
+               (get_local $3)
+               (i32.const 1)
+              )
+             )
+             (get_local $1)
+            )
+            (i32.const 1)
+           )
+          )
+         )
+         (i32.const 4)
+        )
+        (i32.shl
+         (get_local $4)
+         (i32.const 1)
+        )
+       )
+      )
+      (get_local $0)
+      (i32.shl
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (i32.store16
+      (i32.add
+       (get_local $4)
+       (tee_local $5
+        (i32.shl
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (i32.const 46)
+     )
+     (call $~lib/internal/memory/memmove
+      (i32.add
+       (get_local $4)
+       (i32.shl
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+        (i32.const 1)
+       )
+      )
+      (i32.add
+       (get_local $0)
+       (get_local $5)
+      )
+      (i32.shl
+       (i32.sub
+        (get_local $1)
+        (get_local $2)
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (block
+     (i32.store
+      (tee_local $4
+       (i32.add
+        (i32.add
+         (tee_local $6
+          (call $~lib/internal/string/allocateUnsafe
+           (i32.add
+            (i32.sub
+             (i32.add
+              (tee_local $4
+               (i32.and
+                (get_local $3)
+                (i32.const 1)
+               )
+              )
+              (i32.const 2)
+             )
+             (get_local $2)
+            )
+            (get_local $1)
+           )
+          )
+         )
+         (i32.const 4)
+        )
+        (i32.shl
+         (get_local $4)
+         (i32.const 1)
+        )
+       )
+      )
+      (i32.const 3014704)
+     )
+     (block $break|1
+      (loop $repeat|1
+       (br_if $break|1
+        (i32.ge_s
+         (get_local $5)
+         (i32.sub
+          (i32.const 0)
+          (get_local $2)
+         )
+        )
+       )
+       (i32.store16
+        (i32.add
+         (get_local $4)
+         (i32.shl
+          (i32.add
+           (get_local $5)
+           (i32.const 2)
+          )
+          (i32.const 1)
+         )
+        )
+        (i32.const 48)
+       )
+       (set_local $5
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (br $repeat|1)
+      )
+     )
+     (call $~lib/internal/memory/memmove
+      (i32.add
+       (get_local $4)
+       (i32.shl
+        (i32.sub
+         (i32.const 2)
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (get_local $0)
+      (i32.shl
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $3)
+    (i32.const 1)
+   )
+   (i32.store16 offset=4
+    (get_local $6)
+    (i32.const 45)
+   )
+  )
+  (get_local $6)
+ )
+ (func $~lib/internal/dtoa/formatExponential (; 136 ;) (; has Stack IR ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $3
+   (i32.add
+    (tee_local $6
+     (call $~lib/internal/string/allocateUnsafe
+      (i32.add
+       (i32.add
+        (i32.add
+         (i32.add
+          (tee_local $4
+           (i32.and
+            (get_local $3)
+            (i32.const 1)
+           )
+          )
+          (get_local $1)
+         )
+         (i32.gt_s
+          (get_local $1)
+          (i32.const 1)
+         )
+        )
+        (i32.const 2)
+       )
+       (tee_local $5
+        (call $~lib/internal/dtoa/decimalCount
+         (i64.extend_s/i32
+          (select
+           (get_local $2)
+           (i32.sub
+            (i32.const 0)
+            (get_local $2)
+           )
+           (i32.gt_s
+            (get_local $2)
+            (i32.const 0)
+           )
+          )
+         )
+        )
+       )
+      )
+     )
+    )
+    (i32.const 4)
+   )
+  )
+  (if
+   (get_local $4)
+   (block
+    (i32.store16
+     (get_local $3)
+     (i32.const 45)
+    )
+    (set_local $3
+     (i32.add
+      (get_local $3)
+      (i32.const 2)
+     )
+    )
+   )
+  )
+  (i32.store16
+   (get_local $3)
+   (i32.load16_u
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.add
+    (get_local $3)
+    (i32.const 2)
+   )
+  )
+  (if
+   (i32.gt_s
+    (get_local $1)
+    (i32.const 1)
+   )
+   (block
+    (i32.store16
+     (get_local $3)
+     (i32.const 46)
+    )
+    (call $~lib/internal/memory/memmove
+     (i32.add
+      (get_local $3)
+      (i32.const 2)
+     )
+     (i32.add
+      (get_local $0)
+      (i32.const 2)
+     )
+     (i32.shl
+      (i32.sub
+       (get_local $1)
+       (i32.const 1)
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $3
+     (i32.add
+      (get_local $3)
+      (i32.shl
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (i32.or
+    (i32.shl
+     (tee_local $0
+      (if (result i32)
+       (i32.lt_s
+        (get_local $2)
+        (i32.const 0)
+       )
+       (i32.const 45)
+       (i32.const 43)
+      )
+     )
+     (i32.const 16)
+    )
+    (i32.const 101)
+   )
+  )
+  (call $~lib/internal/dtoa/writeDigits
+   (i32.add
+    (get_local $3)
+    (i32.const 4)
+   )
+   (i64.extend_s/i32
+    (select
+     (get_local $2)
+     (i32.sub
+      (i32.const 0)
+      (get_local $2)
+     )
+     (i32.gt_s
+      (get_local $2)
+      (i32.const 0)
+     )
+    )
+   )
+   (get_local $5)
+  )
+  (get_local $6)
+ )
+ (func $~lib/internal/dtoa/formatShortest (; 137 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (call $~lib/internal/dtoa/writeDigits
+   (tee_local $2
+    (call $~lib/allocator/arena/__memory_allocate
+     (i32.shl
+      (tee_local $1
+       (call $~lib/internal/dtoa/decimalCount
+        (get_global $~lib/internal/dtoa/_output)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+   )
+   (get_global $~lib/internal/dtoa/_output)
+   (get_local $1)
+  )
+  (if
+   (tee_local $4
+    (i32.gt_s
+     (tee_local $3
+      (i32.add
+       (get_global $~lib/internal/dtoa/_exp10)
+       (get_local $1)
+      )
+     )
+     (i32.const -6)
+    )
+   )
+   (set_local $4
+    (i32.le_s
+     (get_local $3)
+     (i32.const 21)
+    )
+   )
+  )
+  (set_local $0
+   (if (result i32)
+    (get_local $4)
+    (call $~lib/internal/dtoa/formatPositional
+     (get_local $2)
+     (get_local $1)
+     (get_local $3)
+     (get_local $0)
+    )
+    (call $~lib/internal/dtoa/formatExponential
+     (get_local $2)
+     (get_local $1)
+     (i32.sub
+      (get_local $3)
+      (i32.const 1)
+     )
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/allocator/arena/__memory_free)
+  (get_local $0)
+ )
+ (func $~lib/internal/dtoa/dtoa64 (; 138 ;) (; has Stack IR ;) (type $Fi) (param $0 f64) (result i32)
+  (local $1 i64)
+  (if
+   (f64.eq
+    (get_local $0)
+    (f64.const 0)
+   )
+   (return
+    (i32.const 1880)
+   )
+  )
+  (if
+   (f64.ne
+    (f64.sub
+     (get_local $0)
+     (get_local $0)
+    )
+    (f64.const 0)
+   )
+   (return
+    (call $~lib/internal/dtoa/formatNonFinite
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/internal/dtoa/ryu64
+   (i64.and
+    (tee_local $1
+     (i64.reinterpret/f64
+      (get_local $0)
+     )
+    )
+    (i64.const 4503599627370495)
+   )
+   (i32.and
+    (i32.wrap/i64
+     (i64.shr_u
+      (get_local $1)
+      (i64.const 52)
+     )
+    )
+    (i32.const 2047)
+   )
+  )
+  (call $~lib/internal/dtoa/formatShortest
+   (i32.wrap/i64
+    (i64.shr_u
+     (get_local $1)
+     (i64.const 63)
+    )
+   )
+  )
+ )
+ (func $~lib/internal/dtoa/dtoa<f64> (; 139 ;) (; has Stack IR ;) (type $Fi) (param $0 f64) (result i32)
+  (call $~lib/internal/dtoa/dtoa64
+   (get_local $0)
+  )
+ )
+ (func $~lib/internal/array/joinElement<f64> (; 140 ;) (; has Stack IR ;) (type $Fi) (param $0 f64) (result i32)
+  (call $~lib/internal/dtoa/dtoa<f64>
+   (get_local $0)
+  )
+ )
+ (func $~lib/array/Array<f64>#join (; 141 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.load
+      (i32.const 19268)
+     )
+    )
+   )
+   (return
+    (i32.const 1568)
+   )
+  )
+  (set_local $1
+   (call $~lib/internal/array/joinElement<f64>
+    (f64.load offset=8
+     (tee_local $3
+      (i32.load
+       (i32.const 19264)
+      )
+     )
+    )
+   )
+  )
+  (block $break|0
+   (set_local $0
+    (i32.const 1)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $0)
+      (get_local $2)
+     )
+    )
+    (set_local $1
+     (call $~lib/string/String.__concat
+      (call $~lib/string/String.__concat
+       (get_local $1)
+       (i32.const 2760)
+      )
+      (call $~lib/internal/array/joinElement<f64>
+       (f64.load offset=8
+        (i32.add
+         (get_local $3)
+         (i32.shl
+          (get_local $0)
+          (i32.const 3)
+         )
+        )
+       )
+      )
+     )
+    )
+    (set_local $0
+     (i32.add
+      (get_local $0)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/array/joinElement<String> (; 142 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if (result i32)
+   (get_local $0)
+   (get_local $0)
+   (i32.const 1568)
+  )
+ )
+ (func $~lib/array/Array<String>#join (; 143 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eqz
+    (tee_local $3
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+   )
+   (return
+    (i32.const 1568)
+   )
+  )
+  (set_local $0
+   (call $~lib/internal/array/joinElement<String>
+    (i32.load offset=8
+     (tee_local $4
+      (i32.load
+       (get_local $0)
+      )
+     )
+    )
+   )
+  )
+  (block $break|0
+   (set_local $2
+    (i32.const 1)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (get_local $3)
+     )
+    )
+    (set_local $0
+     (call $~lib/string/String.__concat
+      (call $~lib/string/String.__concat
+       (get_local $0)
+       (get_local $1)
+      )
+      (call $~lib/internal/array/joinElement<String>
+       (i32.load offset=8
+        (i32.add
+         (get_local $4)
+         (i32.shl
+          (get_local $2)
+          (i32.const 2)
+         )
+        )
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/array/Array<i32>#toString (; 144 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (call $~lib/array/Array<i32>#join
+   (i32.const 19432)
+   (i32.const 2480)
+  )
+ )
+ (func $~lib/array/Array<i32>#concat (; 145 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (call $~lib/array/Array<i32>#constructor
+    (i32.add
+     (tee_local $2
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (tee_local $4
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (call $~lib/internal/memory/memmove
+    (i32.add
+     (i32.load
+      (get_local $3)
+     )
+     (i32.const 8)
+    )
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (i32.const 8)
+    )
+    (i32.shl
+     (get_local $2)
+     (i32.const 2)
+    )
+   )
+  )
+  (if
+   (get_local $4)
+   (call $~lib/internal/memory/memmove
+    (i32.add
+     (i32.add
+      (i32.load
+       (get_local $3)
+      )
+      (i32.const 8)
+     )
+     (i32.shl
+      (get_local $2)
+      (i32.const 2)
+     )
+    )
+    (i32.add
+     (i32.load
+      (get_local $1)
+     )
+     (i32.const 8)
+    )
+    (i32.shl
+     (get_local $4)
+     (i32.const 2)
+    )
+   )
+  )
+  (get_local $3)
+ )
+ (func $~lib/array/Array<i32>#fill (; 146 ;) (; has Stack IR ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $6
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (if (result i32)
+    (i32.lt_s
+     (get_local $2)
+     (i32.const 0)
+    )
+    (select
+     (tee_local $5
+      (i32.add
+       (get_local $4)
+       (get_local $2)
+      )
+     )
+     (i32.const 0)
+     (i32.gt_s
+      (get_local $5)
+      (i32.const 0)
+     )
+    )
+    (select
+     (tee_local $5
+      (get_local $2)
+     )
+     (get_local $4)
+     (i32.lt_s
+      (get_local $2)
+      (get_local $4)
+     )
+    )
+   )
+  )
+  (set_local $3
+   (if (result i32)
+    (i32.lt_s
+     (get_local $3)
+     (i32.const 0)
+    )
+    (select
+     (tee_local $5
+      (i32.add
+       (get_local $4)
+       (get_local $3)
+      )
+     )
+     (i32.const 0)
+     (i32.gt_s
+      (get_local $5)
+      (i32.const 0)
+     )
+    )
+    (select
+     (tee_local $5
+      (get_local $3)
+     )
+     (get_local $4)
+     (i32.lt_s
+      (get_local $3)
+      (get_local $4)
+     )
+    )
+   )
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (get_local $3)
+     )
+    )
+    (i32.store offset=8
+     (i32.add
+      (get_local $6)
+      (i32.shl
+       (get_local $2)
+       (i32.const 2)
+      )
+     )
+     (get_local $1)
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/array/Array<i32>#fill|trampoline (; 147 ;) (; has Stack IR ;) (type $FUNCSIG$iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (block $2of2
+   (block $1of2
+    (block $0of2
+     (block $outOfRange
+      (br_table $0of2 $1of2 $2of2 $outOfRange
+       (i32.sub
+        (get_global $~argc)
+        (i32.const 1)
+       )
+      )
+     )
+     (unreachable)
+    )
+   )
+   (set_local $2
+    (i32.const 2147483647)
+   )
+  )
+  (call $~lib/array/Array<i32>#fill
+   (get_local $0)
+   (get_local $1)
+   (i32.const 0)
+   (get_local $2)
+  )
+ )
+ (func $~lib/array/Array<u8>#fill (; 148 ;) (; has Stack IR ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $6
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.lt_s
+    (tee_local $2
+     (if (result i32)
+      (i32.lt_s
+       (get_local $2)
+       (i32.const 0)
+      )
+      (select
+       (tee_local $5
+        (i32.add
+         (get_local $4)
+         (get_local $2)
         )
        )
-       (get_local $3)
+       (i32.const 0)
+       (i32.gt_s
+        (get_local $5)
+        (i32.const 0)
+       )
       )
-      (block
-       (set_local $5
+      (select
+       (tee_local $5
+        (get_local $2)
+       )
+       (get_local $4)
+       (i32.lt_s
+        (get_local $2)
         (get_local $4)
        )
-       (br $continue|3)
       )
      )
     )
-    (loop $continue|4
-     (if
-      (i32.gt_s
-       (get_local $5)
+    (tee_local $3
+     (if (result i32)
+      (i32.lt_s
+       (get_local $3)
        (i32.const 0)
       )
-      (block
-       (set_local $6
-        (i32.load offset=8
-         (get_local $0)
-        )
-       )
-       (set_local $4
-        (i32.load offset=8
-         (i32.add
-          (get_local $0)
-          (i32.shl
-           (get_local $5)
-           (i32.const 2)
-          )
-         )
+      (select
+       (tee_local $5
+        (i32.add
+         (get_local $4)
+         (get_local $3)
         )
        )
-       (set_global $~argc
-        (i32.const 2)
+       (i32.const 0)
+       (i32.gt_s
+        (get_local $5)
+        (i32.const 0)
        )
-       (if
-        (i32.lt_s
-         (call_indirect (type $iii)
-          (get_local $6)
-          (get_local $4)
-          (get_local $2)
-         )
-         (i32.const 0)
-        )
-        (block
-         (i32.store
-          (tee_local $1
-           (i32.add
-            (get_local $7)
-            (i32.shl
-             (i32.shr_s
-              (get_local $5)
-              (i32.const 5)
-             )
-             (i32.const 2)
-            )
-           )
-          )
-          (i32.xor
-           (i32.load
-            (get_local $1)
-           )
-           (i32.shl
-            (i32.const 1)
-            (i32.and
-             (get_local $5)
-             (i32.const 31)
-            )
-           )
-          )
-         )
-         (i32.store offset=8
-          (i32.add
-           (get_local $0)
-           (i32.shl
-            (get_local $5)
-            (i32.const 2)
-           )
-          )
-          (get_local $6)
-         )
-         (i32.store offset=8
-          (get_local $0)
-          (get_local $4)
-         )
-        )
+      )
+      (select
+       (tee_local $5
+        (get_local $3)
        )
-       (set_local $5
-        (i32.shr_s
-         (get_local $5)
-         (i32.const 1)
-        )
+       (get_local $4)
+       (i32.lt_s
+        (get_local $3)
+        (get_local $4)
        )
-       (br $continue|4)
       )
      )
     )
-    (set_local $3
-     (i32.sub
-      (get_local $3)
-      (i32.const 1)
+   )
+   (call $~lib/internal/memory/memset
+    (i32.add
+     (i32.add
+      (get_local $6)
+      (i32.const 8)
      )
+     (get_local $2)
+    )
+    (get_local $1)
+    (i32.sub
+     (get_local $3)
+     (get_local $2)
     )
-    (br $repeat|2)
    )
   )
-  (call $~lib/allocator/arena/__memory_free)
-  (set_local $1
-   (i32.load offset=8
-    (tee_local $2
-     (i32.add
-      (get_local $0)
-      (i32.const 4)
+  (get_local $0)
+ )
+ (func $~lib/array/Array<u8>#fill|trampoline (; 149 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.const 2)
+  )
+  (block $2of2
+   (block $1of2
+    (block $0of2
+     (block $outOfRange
+      (br_table $0of2 $1of2 $2of2 $outOfRange
+       (i32.sub
+        (get_global $~argc)
+        (i32.const 1)
+       )
+      )
      )
+     (unreachable)
+    )
+    (set_local $2
+     (i32.const 0)
     )
    )
-  )
-  (i32.store offset=8
-   (get_local $2)
-   (i32.load offset=8
-    (get_local $0)
+   (set_local $1
+    (i32.const 2147483647)
    )
   )
-  (i32.store offset=8
+  (call $~lib/array/Array<u8>#fill
    (get_local $0)
+   (i32.const 7)
+   (get_local $2)
    (get_local $1)
   )
  )
- (func $~lib/array/Array<i32>#sort (; 83 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (if
-   (i32.eqz
-    (get_local $1)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 8)
-     (i32.const 311)
-     (i32.const 4)
+ (func $~lib/array/Array<u8>#__get (; 150 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (tee_local $0
+   (if (result i32)
+    (i32.lt_u
+     (get_local $1)
+     (i32.load
+      (tee_local $0
+       (i32.load
+        (get_local $0)
+       )
+      )
+     )
+    )
+    (i32.load8_u offset=8
+     (i32.add
+      (get_local $0)
+      (get_local $1)
+     )
     )
     (unreachable)
    )
   )
+ )
+ (func $std/array/isArraysEqual<u8> (; 151 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
   (if
-   (i32.le_s
-    (tee_local $2
-     (i32.load offset=4
-      (get_local $0)
-     )
+   (i32.ne
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.load
+     (i32.const 19772)
     )
-    (i32.const 1)
    )
    (return
+    (i32.const 0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
     (get_local $0)
    )
   )
-  (set_local $3
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $1)
+      (get_local $2)
+     )
+    )
+    (if
+     (i32.ne
+      (i32.and
+       (call $~lib/array/Array<u8>#__get
+        (get_local $0)
+        (get_local $1)
+       )
+       (i32.const 255)
+      )
+      (i32.and
+       (call $~lib/array/Array<u8>#__get
+        (i32.const 19768)
+        (get_local $1)
+       )
+       (i32.const 255)
+      )
+     )
+     (return
+      (i32.const 0)
+     )
+     (block
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|0)
+     )
+    )
+   )
+  )
+  (i32.const 1)
+ )
+ (func $start~anonymous|56 (; 152 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (i32.gt_s
+   (get_local $0)
+   (i32.const 2)
+  )
+ )
+ (func $~lib/array/Array<i32>#find (; 153 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $4
    (i32.load
     (get_local $0)
    )
   )
-  (if
-   (i32.eq
-    (get_local $2)
-    (i32.const 2)
+  (block $break|0
+   (set_local $5
+    (i32.load offset=4
+     (get_local $0)
+    )
    )
-   (block
-    (set_local $2
-     (i32.load offset=8
-      (i32.add
-       (get_local $3)
-       (i32.const 4)
+   (loop $repeat|0
+    (if
+     (tee_local $3
+      (i32.lt_s
+       (get_local $2)
+       (get_local $5)
+      )
+     )
+     (set_local $3
+      (i32.lt_s
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
+       )
       )
      )
     )
-    (set_local $4
-     (i32.load offset=8
+    (br_if $break|0
+     (i32.eqz
       (get_local $3)
      )
     )
+    (set_local $3
+     (i32.load offset=8
+      (i32.add
+       (get_local $4)
+       (i32.shl
+        (get_local $2)
+        (i32.const 2)
+       )
+      )
+     )
+    )
     (set_global $~argc
-     (i32.const 2)
+     (i32.const 3)
+    )
+    (set_global $~env
+     (get_local $1)
     )
     (if
-     (i32.lt_s
-      (call_indirect (type $iii)
+     (i32.and
+      (call_indirect (type $iiii)
+       (get_local $3)
        (get_local $2)
-       (get_local $4)
-       (get_local $1)
+       (get_local $0)
+       (i32.load
+        (get_global $~env)
+       )
       )
-      (i32.const 0)
+      (i32.const 1)
+     )
+     (return
+      (get_local $3)
      )
      (block
-      (i32.store offset=8
+      (set_local $2
        (i32.add
-        (get_local $3)
-        (i32.const 4)
+        (get_local $2)
+        (i32.const 1)
        )
-       (get_local $4)
-      )
-      (i32.store offset=8
-       (get_local $3)
-       (get_local $2)
       )
+      (br $repeat|0)
      )
     )
-    (return
-     (get_local $0)
-    )
-   )
-  )
-  (if
-   (i32.lt_s
-    (get_local $2)
-    (i32.const 256)
-   )
-   (call $~lib/internal/array/insertionSort<i32>
-    (get_local $3)
-    (get_local $2)
-    (get_local $1)
-   )
-   (call $~lib/internal/array/weakHeapSort<i32>
-    (get_local $3)
-    (get_local $2)
-    (get_local $1)
    )
   )
-  (get_local $0)
+  (i32.const 0)
  )
- (func $~lib/array/Array<i32>#sort|trampoline~anonymous|44 (; 84 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.sub
+ (func $start~anonymous|57 (; 154 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (i32.gt_s
    (get_local $0)
-   (get_local $1)
+   (i32.const 4)
   )
  )
- (func $~lib/array/Array<i32>#sort|trampoline (; 85 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (block $1of1
-   (block $0of1
-    (block $outOfRange
-     (br_table $0of1 $1of1 $outOfRange
-      (get_global $~argc)
-     )
-    )
-    (unreachable)
-   )
-   (set_local $1
-    (i32.const 44)
+ (func $start~anonymous|58 (; 155 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (i32.eq
+   (i32.load
+    (get_local $0)
    )
+   (i32.const 2)
   )
-  (call $~lib/array/Array<i32>#sort
-   (get_local $0)
-   (get_local $1)
+ )
+ (func $start~anonymous|60 (; 156 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (i32.eq
+   (i32.load
+    (get_local $0)
+   )
+   (i32.const 4)
   )
  )
- (func $std/array/isArraysEqual<i32> (; 86 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
-  (local $3 i32)
-  (if
-   (i32.eqz
-    (get_local $2)
+ (func $~lib/array/Array<i32>#copyWithin (; 157 ;) (; has Stack IR ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $5
+   (i32.load offset=4
+    (get_local $0)
    )
-   (block
-    (if
-     (i32.ne
-      (i32.load offset=4
-       (get_local $0)
-      )
-      (i32.load offset=4
+  )
+  (set_local $1
+   (if (result i32)
+    (i32.lt_s
+     (get_local $1)
+     (i32.const 0)
+    )
+    (select
+     (tee_local $4
+      (i32.add
+       (get_local $5)
        (get_local $1)
       )
      )
-     (return
+     (i32.const 0)
+     (i32.gt_s
+      (get_local $4)
       (i32.const 0)
      )
     )
-    (set_local $2
-     (i32.load offset=4
-      (get_local $0)
+    (select
+     (tee_local $4
+      (get_local $1)
+     )
+     (get_local $5)
+     (i32.lt_s
+      (get_local $4)
+      (get_local $5)
      )
     )
    )
   )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.ge_s
-      (get_local $3)
+  (set_local $2
+   (if (result i32)
+    (i32.lt_s
+     (get_local $2)
+     (i32.const 0)
+    )
+    (select
+     (tee_local $4
+      (i32.add
+       (get_local $5)
+       (get_local $2)
+      )
+     )
+     (i32.const 0)
+     (i32.gt_s
+      (get_local $4)
+      (i32.const 0)
+     )
+    )
+    (select
+     (tee_local $4
       (get_local $2)
      )
+     (get_local $5)
+     (i32.lt_s
+      (get_local $4)
+      (get_local $5)
+     )
     )
-    (if
-     (i32.ne
-      (call $~lib/array/Array<i32>#__get
-       (get_local $0)
-       (get_local $3)
+   )
+  )
+  (if
+   (i32.gt_s
+    (tee_local $3
+     (select
+      (tee_local $4
+       (i32.sub
+        (tee_local $3
+         (if (result i32)
+          (i32.lt_s
+           (get_local $3)
+           (i32.const 0)
+          )
+          (select
+           (tee_local $4
+            (i32.add
+             (get_local $5)
+             (get_local $3)
+            )
+           )
+           (i32.const 0)
+           (i32.gt_s
+            (get_local $4)
+            (i32.const 0)
+           )
+          )
+          (select
+           (tee_local $4
+            (get_local $3)
+           )
+           (get_local $5)
+           (i32.lt_s
+            (get_local $4)
+            (get_local $5)
+           )
+          )
+         )
+        )
+        (get_local $2)
+       )
       )
-      (call $~lib/array/Array<i32>#__get
-       (get_local $1)
-       (get_local $3)
+      (tee_local $5
+       (i32.sub
+        (get_local $5)
+        (get_local $1)
+       )
+      )
+      (i32.lt_s
+       (get_local $4)
+       (get_local $5)
       )
      )
-     (return
-      (i32.const 0)
+    )
+    (i32.const 0)
+   )
+   (call $~lib/internal/memory/memmove
+    (i32.add
+     (i32.add
+      (tee_local $4
+       (i32.load
+        (get_local $0)
+       )
+      )
+      (i32.const 8)
+     )
+     (i32.shl
+      (get_local $1)
+      (i32.const 2)
+     )
+    )
+    (i32.add
+     (i32.add
+      (get_local $4)
+      (i32.const 8)
      )
-     (block
-      (set_local $3
-       (i32.add
-        (get_local $3)
-        (i32.const 1)
-       )
-      )
-      (br $repeat|0)
+     (i32.shl
+      (get_local $2)
+      (i32.const 2)
      )
     )
+    (i32.shl
+     (get_local $3)
+     (i32.const 2)
+    )
    )
   )
-  (i32.const 1)
- )
- (func $~lib/array/Array<u32>#sort|trampoline~anonymous|45 (; 87 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.sub
-   (i32.gt_u
-    (get_local $0)
-    (get_local $1)
-   )
-   (i32.lt_u
-    (get_local $0)
-    (get_local $1)
-   )
-  )
+  (get_local $0)
  )
- (func $~lib/array/Array<u32>#sort|trampoline (; 88 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+ (func $~lib/array/Array<i32>#copyWithin|trampoline (; 158 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
   (local $1 i32)
-  (block $1of1
-   (block $0of1
-    (block $outOfRange
-     (br_table $0of1 $1of1 $outOfRange
-      (get_global $~argc)
+  (local $2 i32)
+  (set_local $2
+   (i32.const 3)
+  )
+  (block $2of2
+   (block $1of2
+    (block $0of2
+     (block $outOfRange
+      (br_table $0of2 $1of2 $2of2 $outOfRange
+       (i32.sub
+        (get_global $~argc)
+        (i32.const 1)
+       )
+      )
      )
+     (unreachable)
+    )
+    (set_local $2
+     (i32.const 0)
     )
-    (unreachable)
    )
    (set_local $1
-    (i32.const 45)
+    (i32.const 2147483647)
    )
   )
-  (call $~lib/array/Array<i32>#sort
+  (call $~lib/array/Array<i32>#copyWithin
    (get_local $0)
+   (i32.const 0)
+   (get_local $2)
    (get_local $1)
   )
  )
- (func $std/array/createReverseOrderedArray (; 89 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/array/Array<Array<i32>>#flat<i32> (; 159 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
-  (set_local $1
-   (call $~lib/array/Array<i32>#constructor
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.load
     (get_local $0)
    )
   )
@@ -6485,22 +12580,28 @@
     (br_if $break|0
      (i32.ge_s
       (get_local $0)
-      (i32.load offset=4
-       (get_local $1)
-      )
+      (get_local $3)
      )
     )
-    (call $~lib/array/Array<i32>#__set
-     (get_local $1)
-     (get_local $0)
-     (i32.sub
-      (i32.sub
+    (if
+     (tee_local $2
+      (i32.load offset=8
+       (i32.add
+        (get_local $4)
+        (i32.shl
+         (get_local $0)
+         (i32.const 2)
+        )
+       )
+      )
+     )
+     (set_local $1
+      (i32.add
+       (get_local $1)
        (i32.load offset=4
-        (get_local $1)
+        (get_local $2)
        )
-       (i32.const 1)
       )
-      (get_local $0)
      )
     )
     (set_local $0
@@ -6512,1109 +12613,1066 @@
     (br $repeat|0)
    )
   )
-  (get_local $1)
- )
- (func $~lib/math/NativeMath.random (; 90 ;) (; has Stack IR ;) (type $F) (result f64)
-  (local $0 i64)
-  (local $1 i64)
-  (if
-   (i32.eqz
-    (get_global $~lib/math/random_seeded)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 136)
-     (i32.const 1007)
-     (i32.const 24)
-    )
-    (unreachable)
+  (set_local $5
+   (call $~lib/array/Array<i32>#constructor
+    (get_local $1)
    )
   )
-  (set_local $0
-   (get_global $~lib/math/random_state0)
+  (set_local $1
+   (i32.const 0)
   )
-  (set_global $~lib/math/random_state0
-   (tee_local $1
-    (get_global $~lib/math/random_state1)
+  (block $break|1
+   (set_local $0
+    (i32.const 0)
    )
-  )
-  (set_global $~lib/math/random_state1
-   (tee_local $0
-    (i64.xor
-     (i64.xor
-      (i64.xor
-       (tee_local $0
-        (i64.xor
-         (get_local $0)
-         (i64.shl
-          (get_local $0)
-          (i64.const 23)
+   (loop $repeat|1
+    (block $continue|1
+     (br_if $break|1
+      (i32.ge_s
+       (get_local $0)
+       (get_local $3)
+      )
+     )
+     (br_if $continue|1
+      (i32.eqz
+       (tee_local $2
+        (i32.load offset=8
+         (i32.add
+          (get_local $4)
+          (i32.shl
+           (get_local $0)
+           (i32.const 2)
+          )
          )
         )
        )
-       (i64.shr_u
-        (get_local $0)
-        (i64.const 17)
+      )
+     )
+     (call $~lib/internal/memory/memmove
+      (i32.add
+       (i32.add
+        (i32.load
+         (get_local $5)
+        )
+        (i32.const 8)
+       )
+       (get_local $1)
+      )
+      (i32.add
+       (i32.load
+        (get_local $2)
+       )
+       (i32.const 8)
+      )
+      (tee_local $2
+       (i32.shl
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 2)
        )
       )
-      (get_local $1)
      )
-     (i64.shr_u
-      (get_local $1)
-      (i64.const 26)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (get_local $2)
+      )
      )
     )
+    (set_local $0
+     (i32.add
+      (get_local $0)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|1)
    )
   )
-  (f64.sub
-   (f64.reinterpret/i64
-    (i64.or
-     (i64.and
-      (i64.add
-       (get_local $1)
-       (get_local $0)
-      )
-      (i64.const 4503599627370495)
-     )
-     (i64.const 4607182418800017408)
+  (get_local $5)
+ )
+ (func $~lib/array/Array<i32>#__unchecked_set (; 160 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (i32.store offset=8
+   (i32.add
+    (i32.load
+     (get_local $0)
+    )
+    (i32.shl
+     (get_local $1)
+     (i32.const 2)
     )
    )
-   (f64.const 1)
+   (get_local $2)
   )
  )
- (func $std/array/createRandomOrderedArray (; 91 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (set_local $0
-   (call $~lib/array/Array<i32>#constructor
+ (func $start~anonymous|61 (; 161 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (call $~lib/array/Array<i32>#__unchecked_set
+   (tee_local $3
+    (call $~lib/array/Array<i32>#constructor
+     (i32.const 2)
+    )
+   )
+   (i32.const 0)
+   (get_local $0)
+  )
+  (call $~lib/array/Array<i32>#__unchecked_set
+   (get_local $3)
+   (i32.const 1)
+   (i32.mul
     (get_local $0)
+    (i32.const 10)
    )
   )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.ge_s
-      (get_local $1)
-      (i32.load offset=4
-       (get_local $0)
-      )
-     )
-    )
-    (call $~lib/array/Array<i32>#__set
-     (get_local $0)
-     (get_local $1)
-     (i32.trunc_s/f64
-      (f64.mul
-       (call $~lib/math/NativeMath.random)
-       (f64.convert_s/i32
-        (i32.load offset=4
-         (get_local $0)
-        )
-       )
+  (get_local $3)
+ )
+ (func $~lib/array/Array<i32>#flatMap<i32> (; 162 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (call $~lib/array/Array<Array<i32>>#flat<i32>
+   (call $~lib/array/Array<i32>#map<i32>
+    (i32.const 20344)
+    (i32.const 20352)
+   )
+  )
+ )
+ (func $~lib/array/Array<i32>#splice|trampoline (; 163 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (block $1of1
+   (block $0of1
+    (block $outOfRange
+     (br_table $0of1 $1of1 $outOfRange
+      (i32.sub
+       (get_global $~argc)
+       (i32.const 1)
       )
      )
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
-     )
-    )
-    (br $repeat|0)
+    (unreachable)
+   )
+   (set_local $1
+    (i32.const 2147483647)
    )
   )
-  (get_local $0)
+  (call $~lib/array/Array<i32>#splice
+   (get_local $0)
+   (i32.const -1)
+   (get_local $1)
+  )
  )
- (func $std/array/isSorted<i32> (; 92 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
+ (func $~lib/array/Array<String>#lastIndexOf (; 164 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
   (local $3 i32)
-  (block $break|0
-   (set_local $2
-    (i32.const 1)
+  (if
+   (i32.eqz
+    (tee_local $3
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
    )
-   (set_local $3
-    (i32.load offset=4
-     (get_local $0)
+   (return
+    (i32.const -1)
+   )
+  )
+  (if
+   (i32.lt_s
+    (get_local $2)
+    (i32.const 0)
+   )
+   (set_local $2
+    (i32.add
+     (get_local $3)
+     (get_local $2)
     )
    )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.ge_s
-      (get_local $2)
+   (if
+    (i32.ge_s
+     (get_local $2)
+     (get_local $3)
+    )
+    (set_local $2
+     (i32.sub
       (get_local $3)
+      (i32.const 1)
      )
     )
-    (set_global $~argc
-     (i32.const 2)
+   )
+  )
+  (set_local $0
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.ge_s
+     (get_local $2)
+     (i32.const 0)
     )
-    (if
-     (i32.gt_s
-      (call_indirect (type $iii)
-       (call $~lib/array/Array<i32>#__get
-        (get_local $0)
-        (i32.sub
-         (get_local $2)
-         (i32.const 1)
+    (block
+     (if
+      (call $~lib/string/String.__eq
+       (i32.load offset=8
+        (i32.add
+         (get_local $0)
+         (i32.shl
+          (get_local $2)
+          (i32.const 2)
+         )
         )
        )
-       (call $~lib/array/Array<i32>#__get
-        (get_local $0)
-        (get_local $2)
-       )
        (get_local $1)
       )
-      (i32.const 0)
-     )
-     (return
-      (i32.const 0)
+      (return
+       (get_local $2)
+      )
      )
-     (block
-      (set_local $2
-       (i32.add
-        (get_local $2)
-        (i32.const 1)
-       )
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
       )
-      (br $repeat|0)
      )
+     (br $continue|0)
     )
    )
   )
-  (i32.const 1)
+  (i32.const -1)
  )
- (func $std/array/assertSorted<i32> (; 93 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (if
-   (i32.eqz
-    (call $std/array/isSorted<i32>
-     (call $~lib/array/Array<i32>#sort
-      (get_local $0)
-      (get_local $1)
+ (func $~lib/array/Array<String>#lastIndexOf|trampoline (; 165 ;) (; has Stack IR ;) (type $FUNCSIG$iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (block $1of1
+   (block $0of1
+    (block $outOfRange
+     (br_table $0of1 $1of1 $outOfRange
+      (i32.sub
+       (get_global $~argc)
+       (i32.const 1)
+      )
      )
-     (get_local $1)
     )
+    (unreachable)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 104)
-     (i32.const 608)
-     (i32.const 2)
+   (set_local $2
+    (i32.load offset=4
+     (get_local $0)
     )
-    (unreachable)
    )
   )
- )
- (func $std/array/assertSortedDefault<i32> (; 94 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
-  (call $std/array/assertSorted<i32>
+  (call $~lib/array/Array<String>#lastIndexOf
    (get_local $0)
-   (i32.const 46)
+   (get_local $1)
+   (get_local $2)
   )
  )
- (func $start~anonymous|48 (; 95 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.sub
-   (get_local $1)
+ (func $~lib/array/Array.isArray<Array<i32>> (; 166 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.ne
    (get_local $0)
+   (i32.const 0)
   )
  )
- (func $std/array/createReverseOrderedNestedArray (; 96 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
-  (local $0 i32)
-  (local $1 i32)
-  (set_local $1
-   (call $~lib/array/Array<i32>#constructor
-    (i32.const 512)
+ (func $~lib/array/Array.isArray<i32> (; 167 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (i32.const 0)
+ )
+ (func $~lib/array/Array<i32>#slice (; 168 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_local $0)
    )
   )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.ge_s
-      (get_local $0)
-      (i32.load offset=4
+  (if
+   (i32.lt_s
+    (get_local $1)
+    (i32.const 0)
+   )
+   (set_local $1
+    (select
+     (tee_local $1
+      (i32.add
+       (get_local $3)
        (get_local $1)
       )
      )
-    )
-    (call $~lib/array/Array<i32>#__set
-     (get_local $1)
-     (get_local $0)
-     (call $~lib/array/Array<i32>#constructor
-      (i32.const 1)
-     )
-    )
-    (call $~lib/array/Array<i32>#__set
-     (call $~lib/array/Array<i32>#__get
-      (get_local $1)
-      (get_local $0)
-     )
      (i32.const 0)
-     (i32.sub
-      (i32.sub
-       (i32.load offset=4
-        (get_local $1)
-       )
-       (i32.const 1)
-      )
-      (get_local $0)
+     (i32.gt_s
+      (get_local $1)
+      (i32.const 0)
      )
     )
-    (set_local $0
-     (i32.add
-      (get_local $0)
-      (i32.const 1)
-     )
+   )
+   (if
+    (i32.gt_s
+     (get_local $1)
+     (get_local $3)
+    )
+    (set_local $1
+     (get_local $3)
     )
-    (br $repeat|0)
    )
   )
-  (get_local $1)
- )
- (func $start~anonymous|51 (; 97 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.sub
-   (call $~lib/array/Array<i32>#__get
-    (get_local $0)
+  (if
+   (i32.lt_s
+    (get_local $2)
     (i32.const 0)
    )
-   (call $~lib/array/Array<i32>#__get
-    (get_local $1)
-    (i32.const 0)
+   (set_local $2
+    (i32.add
+     (get_local $3)
+     (get_local $2)
+    )
+   )
+   (if
+    (i32.gt_s
+     (get_local $2)
+     (get_local $3)
+    )
+    (set_local $2
+     (get_local $3)
+    )
    )
   )
- )
- (func $~lib/array/Array<Array<i32>>#sort (; 98 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
   (if
-   (i32.eqz
+   (i32.lt_s
+    (get_local $2)
+    (get_local $1)
+   )
+   (set_local $2
     (get_local $1)
    )
+  )
+  (if
+   (i32.lt_s
+    (tee_local $2
+     (i32.sub
+      (get_local $2)
+      (get_local $1)
+     )
+    )
+    (i32.const 0)
+   )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 311)
+     (i32.const 407)
      (i32.const 4)
     )
     (unreachable)
    )
   )
-  (if
-   (i32.le_s
-    (tee_local $2
-     (i32.load offset=4
-      (get_local $0)
-     )
-    )
-    (i32.const 1)
-   )
-   (return
-    (get_local $0)
-   )
-  )
   (set_local $3
-   (i32.load
-    (get_local $0)
+   (call $~lib/array/Array<i32>#constructor
+    (get_local $2)
    )
   )
   (if
-   (i32.eq
-    (get_local $2)
-    (i32.const 2)
-   )
-   (block
-    (set_local $2
-     (i32.load offset=8
-      (i32.add
-       (get_local $3)
-       (i32.const 4)
-      )
-     )
-    )
-    (set_local $4
-     (i32.load offset=8
+   (get_local $2)
+   (call $~lib/internal/memory/memmove
+    (i32.add
+     (i32.load
       (get_local $3)
      )
+     (i32.const 8)
     )
-    (set_global $~argc
-     (i32.const 2)
-    )
-    (if
-     (i32.lt_s
-      (call_indirect (type $iii)
-       (get_local $2)
-       (get_local $4)
-       (get_local $1)
+    (i32.add
+     (i32.add
+      (i32.load
+       (get_local $0)
       )
-      (i32.const 0)
+      (i32.const 8)
      )
-     (block
-      (i32.store offset=8
-       (i32.add
-        (get_local $3)
-        (i32.const 4)
-       )
-       (get_local $4)
-      )
-      (i32.store offset=8
-       (get_local $3)
-       (get_local $2)
-      )
+     (i32.shl
+      (get_local $1)
+      (i32.const 2)
      )
     )
-    (return
-     (get_local $0)
+    (i32.shl
+     (get_local $2)
+     (i32.const 2)
     )
    )
   )
-  (call $~lib/internal/array/insertionSort<i32>
-   (get_local $3)
-   (get_local $2)
-   (get_local $1)
-  )
-  (get_local $0)
+  (get_local $3)
  )
- (func $std/array/assertSorted<Array<i32>> (; 99 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (if
-   (i32.eqz
-    (call $std/array/isSorted<i32>
-     (call $~lib/array/Array<Array<i32>>#sort
-      (get_local $0)
-      (get_local $1)
+ (func $~lib/array/Array<i32>#slice|trampoline (; 169 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (block $2of2
+   (block $1of2
+    (block $0of2
+     (block $outOfRange
+      (br_table $0of2 $1of2 $2of2 $outOfRange
+       (get_global $~argc)
+      )
      )
-     (get_local $1)
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 104)
-     (i32.const 608)
-     (i32.const 2)
-    )
-    (unreachable)
+   (set_local $1
+    (i32.const 2147483647)
    )
   )
+  (call $~lib/array/Array<i32>#slice
+   (get_local $0)
+   (i32.const 0)
+   (get_local $1)
+  )
  )
- (func $std/array/Proxy<i32>#constructor (; 100 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (i32.store
-   (tee_local $1
-    (call $~lib/memory/memory.allocate
-     (i32.const 4)
-    )
-   )
+ (func $~lib/array/Array.from<i32> (; 170 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (set_global $~argc
+   (i32.const 0)
+  )
+  (call $~lib/array/Array<i32>#slice|trampoline
    (get_local $0)
   )
-  (get_local $1)
  )
- (func $std/array/createReverseOrderedElementsArray (; 101 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+ (func $~lib/array/Array.of<i32> (; 171 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (i32.const 20624)
+ )
+ (func $start (; 172 ;) (; has Stack IR ;) (type $v)
   (local $0 i32)
   (local $1 i32)
-  (set_local $1
+  (local $2 i32)
+  (local $3 i32)
+  (set_global $~lib/allocator/arena/startOffset
+   (i32.const 20672)
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_global $~lib/allocator/arena/startOffset)
+  )
+  (set_global $std/array/arr
    (call $~lib/array/Array<i32>#constructor
-    (i32.const 512)
+    (i32.const 0)
    )
   )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.ge_s
-      (get_local $0)
-      (i32.load offset=4
-       (get_local $1)
-      )
-     )
-    )
-    (call $~lib/array/Array<i32>#__set
-     (get_local $1)
-     (get_local $0)
-     (call $std/array/Proxy<i32>#constructor
-      (i32.sub
-       (i32.sub
-        (i32.load offset=4
-         (get_local $1)
-        )
-        (i32.const 1)
-       )
-       (get_local $0)
-      )
-     )
-    )
-    (set_local $0
-     (i32.add
-      (get_local $0)
-      (i32.const 1)
-     )
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 4)
     )
-    (br $repeat|0)
    )
+   (i32.const 0)
   )
-  (get_local $1)
- )
- (func $start~anonymous|52 (; 102 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.sub
-   (i32.load
-    (get_local $0)
+  (if
+   (i32.load offset=4
+    (get_global $std/array/arr)
    )
-   (i32.load
-    (get_local $1)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 17)
+     (i32.const 0)
+    )
+    (unreachable)
    )
   )
- )
- (func $~lib/internal/string/compareUnsafe (; 103 ;) (; has Stack IR ;) (type $FUNCSIG$iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
-  (local $3 i32)
-  (local $4 i32)
-  (set_local $3
-   (get_local $0)
-  )
-  (loop $continue|0
-   (if
-    (tee_local $0
-     (if (result i32)
-      (get_local $2)
-      (i32.eqz
-       (tee_local $4
-        (i32.sub
-         (i32.load16_u offset=4
-          (get_local $3)
-         )
-         (i32.load16_u offset=4
-          (get_local $1)
-         )
-        )
-       )
-      )
-      (get_local $2)
-     )
-    )
-    (block
-     (set_local $2
-      (i32.sub
-       (get_local $2)
-       (i32.const 1)
-      )
-     )
-     (set_local $3
-      (i32.add
-       (get_local $3)
-       (i32.const 1)
-      )
-     )
-     (set_local $1
-      (i32.add
-       (get_local $1)
-       (i32.const 1)
-      )
-     )
-     (br $continue|0)
+  (if
+   (call $std/array/internalCapacity<i32>
+    (get_global $std/array/arr)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 18)
+     (i32.const 0)
     )
+    (unreachable)
+   )
+  )
+  (drop
+   (call $~lib/array/Array<i32>#push
+    (get_global $std/array/arr)
+    (i32.const 42)
    )
   )
-  (get_local $4)
- )
- (func $~lib/string/String.__gt (; 104 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
   (if
-   (i32.eqz
-    (tee_local $2
-     (i32.eq
-      (get_local $0)
-      (get_local $1)
-     )
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $std/array/arr)
+     (i32.const 0)
     )
+    (i32.const 42)
    )
-   (set_local $2
-    (i32.eqz
-     (get_local $0)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 22)
+     (i32.const 0)
     )
+    (unreachable)
    )
   )
   (if
-   (i32.eqz
-    (get_local $2)
+   (i32.ne
+    (i32.load offset=4
+     (get_global $std/array/arr)
+    )
+    (i32.const 1)
    )
-   (set_local $2
-    (i32.eqz
-     (get_local $1)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 23)
+     (i32.const 0)
     )
+    (unreachable)
    )
   )
   (if
-   (get_local $2)
-   (return
-    (i32.const 0)
+   (i32.ne
+    (call $std/array/internalCapacity<i32>
+     (get_global $std/array/arr)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 24)
+     (i32.const 0)
+    )
+    (unreachable)
    )
   )
-  (set_local $3
-   (i32.load
-    (get_local $1)
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#pop
+    (get_global $std/array/arr)
    )
   )
   (if
-   (i32.eqz
-    (tee_local $2
-     (i32.load
-      (get_local $0)
-     )
-    )
+   (i32.ne
+    (get_global $std/array/i)
+    (i32.const 42)
    )
-   (return
-    (i32.const 0)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 28)
+     (i32.const 0)
+    )
+    (unreachable)
    )
   )
   (if
-   (i32.eqz
-    (get_local $3)
-   )
-   (return
-    (i32.const 1)
+   (i32.load offset=4
+    (get_global $std/array/arr)
    )
-  )
-  (i32.gt_s
-   (call $~lib/internal/string/compareUnsafe
-    (get_local $0)
-    (get_local $1)
-    (select
-     (get_local $2)
-     (get_local $3)
-     (i32.lt_s
-      (get_local $2)
-      (get_local $3)
-     )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 29)
+     (i32.const 0)
     )
+    (unreachable)
    )
-   (i32.const 0)
   )
- )
- (func $~lib/string/String.__lt (; 105 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
   (if
-   (i32.eqz
-    (tee_local $2
-     (i32.eq
-      (get_local $0)
-      (get_local $1)
-     )
+   (i32.ne
+    (call $std/array/internalCapacity<i32>
+     (get_global $std/array/arr)
     )
+    (i32.const 1)
    )
-   (set_local $2
-    (i32.eqz
-     (get_local $0)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 30)
+     (i32.const 0)
     )
+    (unreachable)
    )
   )
-  (if
-   (i32.eqz
-    (get_local $2)
-   )
-   (set_local $2
-    (i32.eqz
-     (get_local $1)
-    )
+  (drop
+   (call $~lib/array/Array<i32>#push
+    (get_global $std/array/arr)
+    (i32.const 43)
    )
   )
   (if
-   (get_local $2)
-   (return
-    (i32.const 0)
+   (i32.ne
+    (i32.load offset=4
+     (get_global $std/array/arr)
+    )
+    (i32.const 1)
    )
-  )
-  (set_local $2
-   (i32.load
-    (get_local $0)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 34)
+     (i32.const 0)
+    )
+    (unreachable)
    )
   )
   (if
-   (i32.eqz
-    (tee_local $3
-     (i32.load
-      (get_local $1)
-     )
+   (i32.ne
+    (call $std/array/internalCapacity<i32>
+     (get_global $std/array/arr)
     )
+    (i32.const 1)
    )
-   (return
-    (i32.const 0)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 35)
+     (i32.const 0)
+    )
+    (unreachable)
    )
   )
   (if
-   (i32.eqz
-    (get_local $2)
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $std/array/arr)
+     (i32.const 0)
+    )
+    (i32.const 43)
    )
-   (return
-    (i32.const 1)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 36)
+     (i32.const 0)
+    )
+    (unreachable)
    )
   )
-  (i32.lt_s
-   (call $~lib/internal/string/compareUnsafe
-    (get_local $0)
-    (get_local $1)
-    (select
-     (get_local $2)
-     (get_local $3)
-     (i32.lt_s
-      (get_local $2)
-      (get_local $3)
-     )
-    )
+  (drop
+   (call $~lib/array/Array<i32>#push
+    (get_global $std/array/arr)
+    (i32.const 44)
    )
-   (i32.const 0)
   )
- )
- (func $start~anonymous|53 (; 106 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.sub
-   (call $~lib/string/String.__gt
-    (get_local $0)
-    (get_local $1)
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_global $std/array/arr)
+    )
+    (i32.const 2)
    )
-   (call $~lib/string/String.__lt
-    (get_local $0)
-    (get_local $1)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 40)
+     (i32.const 0)
+    )
+    (unreachable)
    )
   )
- )
- (func $~lib/string/String.__eq (; 107 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
   (if
-   (i32.eq
-    (get_local $0)
-    (get_local $1)
+   (i32.ne
+    (call $std/array/internalCapacity<i32>
+     (get_global $std/array/arr)
+    )
+    (i32.const 2)
    )
-   (return
-    (i32.const 1)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 41)
+     (i32.const 0)
+    )
+    (unreachable)
    )
   )
   (if
-   (i32.eqz
-    (tee_local $2
-     (i32.eqz
-      (get_local $0)
-     )
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $std/array/arr)
+     (i32.const 0)
     )
+    (i32.const 43)
    )
-   (set_local $2
-    (i32.eqz
-     (get_local $1)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 42)
+     (i32.const 0)
     )
-   )
-  )
-  (if
-   (get_local $2)
-   (return
-    (i32.const 0)
+    (unreachable)
    )
   )
   (if
    (i32.ne
-    (tee_local $2
-     (i32.load
-      (get_local $0)
-     )
-    )
-    (i32.load
-     (get_local $1)
+    (call $~lib/array/Array<i32>#__get
+     (get_global $std/array/arr)
+     (i32.const 1)
     )
+    (i32.const 44)
    )
-   (return
-    (i32.const 0)
-   )
-  )
-  (i32.eqz
-   (call $~lib/internal/string/compareUnsafe
-    (get_local $0)
-    (get_local $1)
-    (get_local $2)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 43)
+     (i32.const 0)
+    )
+    (unreachable)
    )
   )
- )
- (func $~lib/string/String.__ne (; 108 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.eqz
-   (call $~lib/string/String.__eq
-    (get_local $0)
-    (get_local $1)
+  (drop
+   (call $~lib/array/Array<i32>#push
+    (get_global $std/array/arr)
+    (i32.const 45)
    )
   )
- )
- (func $std/array/isArraysEqual<String> (; 109 ;) (; has Stack IR ;) (type $FUNCSIG$iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
   (if
    (i32.ne
     (i32.load offset=4
-     (get_local $0)
-    )
-    (i32.load offset=4
-     (get_local $1)
+     (get_global $std/array/arr)
     )
+    (i32.const 3)
    )
-   (return
-    (i32.const 0)
-   )
-  )
-  (set_local $3
-   (i32.load offset=4
-    (get_local $0)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 47)
+     (i32.const 0)
+    )
+    (unreachable)
    )
   )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.ge_s
-      (get_local $2)
-      (get_local $3)
-     )
+  (if
+   (i32.ne
+    (call $std/array/internalCapacity<i32>
+     (get_global $std/array/arr)
     )
-    (if
-     (call $~lib/string/String.__ne
-      (call $~lib/array/Array<i32>#__get
-       (get_local $0)
-       (get_local $2)
-      )
-      (call $~lib/array/Array<i32>#__get
-       (get_local $1)
-       (get_local $2)
-      )
-     )
-     (return
-      (i32.const 0)
-     )
-     (block
-      (set_local $2
-       (i32.add
-        (get_local $2)
-        (i32.const 1)
-       )
-      )
-      (br $repeat|0)
-     )
+    (i32.const 3)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 48)
+     (i32.const 0)
     )
+    (unreachable)
    )
   )
-  (i32.const 1)
- )
- (func $~lib/internal/string/allocateUnsafe (; 110 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
   (if
-   (tee_local $1
-    (i32.gt_s
-     (get_local $0)
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $std/array/arr)
      (i32.const 0)
     )
+    (i32.const 43)
    )
-   (set_local $1
-    (i32.le_s
-     (get_local $0)
-     (i32.const 536870910)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 49)
+     (i32.const 0)
     )
+    (unreachable)
    )
   )
   (if
-   (i32.eqz
-    (get_local $1)
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $std/array/arr)
+     (i32.const 1)
+    )
+    (i32.const 44)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 1328)
-     (i32.const 14)
-     (i32.const 2)
+     (i32.const 104)
+     (i32.const 50)
+     (i32.const 0)
     )
     (unreachable)
    )
   )
-  (i32.store
-   (tee_local $1
-    (call $~lib/allocator/arena/__memory_allocate
-     (i32.add
-      (i32.shl
-       (get_local $0)
-       (i32.const 1)
-      )
-      (i32.const 4)
-     )
+  (if
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $std/array/arr)
+     (i32.const 2)
     )
+    (i32.const 45)
    )
-   (get_local $0)
-  )
-  (get_local $1)
- )
- (func $~lib/string/String#charAt (; 111 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (if
-   (i32.ge_u
-    (get_local $0)
-    (i32.load
-     (i32.const 168)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 51)
+     (i32.const 0)
     )
+    (unreachable)
    )
-   (return
-    (i32.const 1144)
+  )
+  (drop
+   (call $~lib/array/Array<i32>#unshift
+    (get_global $std/array/arr)
+    (i32.const 42)
    )
   )
-  (i32.store16 offset=4
-   (tee_local $1
-    (call $~lib/internal/string/allocateUnsafe
-     (i32.const 1)
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_global $std/array/arr)
     )
+    (i32.const 4)
    )
-   (i32.load16_u offset=4
-    (i32.add
-     (i32.shl
-      (get_local $0)
-      (i32.const 1)
-     )
-     (i32.const 168)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 57)
+     (i32.const 0)
     )
+    (unreachable)
    )
   )
-  (get_local $1)
- )
- (func $~lib/internal/string/copyUnsafe (; 112 ;) (; has Stack IR ;) (type $FUNCSIG$viiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32)
-  (call $~lib/internal/memory/memmove
-   (i32.add
-    (i32.add
-     (get_local $0)
-     (i32.shl
-      (get_local $1)
-      (i32.const 1)
-     )
+  (if
+   (i32.ne
+    (call $std/array/internalCapacity<i32>
+     (get_global $std/array/arr)
     )
     (i32.const 4)
    )
-   (i32.add
-    (get_local $2)
-    (i32.const 4)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 58)
+     (i32.const 0)
+    )
+    (unreachable)
    )
-   (i32.shl
-    (get_local $3)
-    (i32.const 1)
+  )
+  (if
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $std/array/arr)
+     (i32.const 0)
+    )
+    (i32.const 42)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 59)
+     (i32.const 0)
+    )
+    (unreachable)
    )
   )
- )
- (func $~lib/string/String#concat (; 113 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
   (if
-   (i32.eqz
-    (get_local $0)
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $std/array/arr)
+     (i32.const 1)
+    )
+    (i32.const 43)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 1296)
-     (i32.const 106)
-     (i32.const 4)
+     (i32.const 104)
+     (i32.const 60)
+     (i32.const 0)
     )
     (unreachable)
    )
   )
   (if
-   (i32.eqz
-    (get_local $1)
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $std/array/arr)
+     (i32.const 2)
+    )
+    (i32.const 44)
    )
-   (set_local $1
-    (i32.const 1384)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 61)
+     (i32.const 0)
+    )
+    (unreachable)
    )
   )
   (if
-   (i32.eqz
-    (tee_local $2
-     (i32.add
-      (tee_local $3
-       (i32.load
-        (get_local $0)
-       )
-      )
-      (tee_local $4
-       (i32.load
-        (get_local $1)
-       )
-      )
-     )
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $std/array/arr)
+     (i32.const 3)
     )
+    (i32.const 45)
    )
-   (return
-    (i32.const 1144)
-   )
-  )
-  (call $~lib/internal/string/copyUnsafe
-   (tee_local $2
-    (call $~lib/internal/string/allocateUnsafe
-     (get_local $2)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 62)
+     (i32.const 0)
     )
+    (unreachable)
    )
-   (i32.const 0)
-   (get_local $0)
-   (get_local $3)
   )
-  (call $~lib/internal/string/copyUnsafe
-   (get_local $2)
-   (get_local $3)
-   (get_local $1)
-   (get_local $4)
+  (drop
+   (call $~lib/array/Array<i32>#unshift
+    (get_global $std/array/arr)
+    (i32.const 41)
+   )
   )
-  (get_local $2)
- )
- (func $~lib/string/String.__concat (; 114 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (if
-   (i32.eqz
-    (get_local $0)
+   (i32.ne
+    (i32.load offset=4
+     (get_global $std/array/arr)
+    )
+    (i32.const 5)
    )
-   (set_local $0
-    (i32.const 1384)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 66)
+     (i32.const 0)
+    )
+    (unreachable)
    )
   )
-  (call $~lib/string/String#concat
-   (get_local $0)
-   (get_local $1)
-  )
- )
- (func $std/array/createRandomString (; 115 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (local $2 i32)
-  (set_local $1
-   (i32.const 1144)
-  )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.ge_s
-      (get_local $2)
-      (get_local $0)
-     )
-    )
-    (set_local $1
-     (call $~lib/string/String.__concat
-      (get_local $1)
-      (call $~lib/string/String#charAt
-       (i32.trunc_s/f64
-        (f64.floor
-         (f64.mul
-          (call $~lib/math/NativeMath.random)
-          (f64.convert_s/i32
-           (i32.load
-            (i32.const 168)
-           )
-          )
-         )
-        )
-       )
-      )
-     )
+  (if
+   (i32.ne
+    (call $std/array/internalCapacity<i32>
+     (get_global $std/array/arr)
     )
-    (set_local $2
-     (i32.add
-      (get_local $2)
-      (i32.const 1)
-     )
+    (i32.const 5)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 67)
+     (i32.const 0)
     )
-    (br $repeat|0)
+    (unreachable)
    )
   )
-  (get_local $1)
- )
- (func $std/array/createRandomStringArray (; 116 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
-  (local $0 i32)
-  (local $1 i32)
-  (set_local $1
-   (call $~lib/array/Array<i32>#constructor
-    (i32.const 400)
+  (if
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $std/array/arr)
+     (i32.const 0)
+    )
+    (i32.const 41)
    )
-  )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.ge_s
-      (get_local $0)
-      (i32.load offset=4
-       (get_local $1)
-      )
-     )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 68)
+     (i32.const 0)
     )
-    (call $~lib/array/Array<i32>#__set
-     (get_local $1)
-     (get_local $0)
-     (call $std/array/createRandomString
-      (i32.trunc_s/f64
-       (f64.mul
-        (call $~lib/math/NativeMath.random)
-        (f64.const 32)
-       )
-      )
-     )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $std/array/arr)
+     (i32.const 1)
     )
-    (set_local $0
-     (i32.add
-      (get_local $0)
-      (i32.const 1)
-     )
+    (i32.const 42)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 69)
+     (i32.const 0)
     )
-    (br $repeat|0)
+    (unreachable)
    )
   )
-  (get_local $1)
- )
- (func $start (; 117 ;) (; has Stack IR ;) (type $v)
-  (set_global $~lib/allocator/arena/startOffset
-   (i32.const 1400)
-  )
-  (set_global $~lib/allocator/arena/offset
-   (get_global $~lib/allocator/arena/startOffset)
-  )
-  (set_global $std/array/arr
-   (call $~lib/array/Array<i32>#constructor
-    (i32.const 0)
+  (if
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $std/array/arr)
+     (i32.const 2)
+    )
+    (i32.const 43)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 70)
+     (i32.const 0)
+    )
+    (unreachable)
    )
   )
   (if
-   (i32.load offset=4
-    (get_global $std/array/arr)
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $std/array/arr)
+     (i32.const 3)
+    )
+    (i32.const 44)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 17)
+     (i32.const 71)
      (i32.const 0)
     )
     (unreachable)
    )
   )
   (if
-   (call $std/array/internalCapacity<i32>
-    (get_global $std/array/arr)
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $std/array/arr)
+     (i32.const 4)
+    )
+    (i32.const 45)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 18)
+     (i32.const 72)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (drop
-   (call $~lib/array/Array<i32>#push
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#shift
     (get_global $std/array/arr)
-    (i32.const 42)
    )
   )
   (if
    (i32.ne
-    (call $~lib/array/Array<i32>#__get
-     (get_global $std/array/arr)
-     (i32.const 0)
-    )
-    (i32.const 42)
+    (get_global $std/array/i)
+    (i32.const 41)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 22)
+     (i32.const 78)
      (i32.const 0)
     )
     (unreachable)
@@ -7625,13 +13683,13 @@
     (i32.load offset=4
      (get_global $std/array/arr)
     )
-    (i32.const 1)
+    (i32.const 4)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 23)
+     (i32.const 79)
      (i32.const 0)
     )
     (unreachable)
@@ -7642,47 +13700,49 @@
     (call $std/array/internalCapacity<i32>
      (get_global $std/array/arr)
     )
-    (i32.const 1)
+    (i32.const 5)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 24)
+     (i32.const 80)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#pop
-    (get_global $std/array/arr)
-   )
-  )
   (if
    (i32.ne
-    (get_global $std/array/i)
+    (call $~lib/array/Array<i32>#__get
+     (get_global $std/array/arr)
+     (i32.const 0)
+    )
     (i32.const 42)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 28)
+     (i32.const 81)
      (i32.const 0)
     )
     (unreachable)
    )
   )
   (if
-   (i32.load offset=4
-    (get_global $std/array/arr)
+   (i32.ne
+    (call $~lib/array/Array<i32>#__get
+     (get_global $std/array/arr)
+     (i32.const 1)
+    )
+    (i32.const 43)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 29)
+     (i32.const 82)
      (i32.const 0)
     )
     (unreachable)
@@ -7690,56 +13750,55 @@
   )
   (if
    (i32.ne
-    (call $std/array/internalCapacity<i32>
+    (call $~lib/array/Array<i32>#__get
      (get_global $std/array/arr)
+     (i32.const 2)
     )
-    (i32.const 1)
+    (i32.const 44)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 30)
+     (i32.const 83)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (drop
-   (call $~lib/array/Array<i32>#push
-    (get_global $std/array/arr)
-    (i32.const 43)
-   )
-  )
   (if
    (i32.ne
-    (i32.load offset=4
+    (call $~lib/array/Array<i32>#__get
      (get_global $std/array/arr)
+     (i32.const 3)
     )
-    (i32.const 1)
+    (i32.const 45)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 34)
+     (i32.const 84)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#pop
+    (get_global $std/array/arr)
+   )
+  )
   (if
    (i32.ne
-    (call $std/array/internalCapacity<i32>
-     (get_global $std/array/arr)
-    )
-    (i32.const 1)
+    (get_global $std/array/i)
+    (i32.const 45)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 35)
+     (i32.const 88)
      (i32.const 0)
     )
     (unreachable)
@@ -7747,40 +13806,33 @@
   )
   (if
    (i32.ne
-    (call $~lib/array/Array<i32>#__get
+    (i32.load offset=4
      (get_global $std/array/arr)
-     (i32.const 0)
     )
-    (i32.const 43)
+    (i32.const 3)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 36)
+     (i32.const 89)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (drop
-   (call $~lib/array/Array<i32>#push
-    (get_global $std/array/arr)
-    (i32.const 44)
-   )
-  )
   (if
    (i32.ne
-    (i32.load offset=4
+    (call $std/array/internalCapacity<i32>
      (get_global $std/array/arr)
     )
-    (i32.const 2)
+    (i32.const 5)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 40)
+     (i32.const 90)
      (i32.const 0)
     )
     (unreachable)
@@ -7788,16 +13840,17 @@
   )
   (if
    (i32.ne
-    (call $std/array/internalCapacity<i32>
+    (call $~lib/array/Array<i32>#__get
      (get_global $std/array/arr)
+     (i32.const 0)
     )
-    (i32.const 2)
+    (i32.const 42)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 41)
+     (i32.const 91)
      (i32.const 0)
     )
     (unreachable)
@@ -7807,7 +13860,7 @@
    (i32.ne
     (call $~lib/array/Array<i32>#__get
      (get_global $std/array/arr)
-     (i32.const 0)
+     (i32.const 1)
     )
     (i32.const 43)
    )
@@ -7815,7 +13868,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 42)
+     (i32.const 92)
      (i32.const 0)
     )
     (unreachable)
@@ -7825,7 +13878,7 @@
    (i32.ne
     (call $~lib/array/Array<i32>#__get
      (get_global $std/array/arr)
-     (i32.const 1)
+     (i32.const 2)
     )
     (i32.const 44)
    )
@@ -7833,16 +13886,15 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 43)
+     (i32.const 93)
      (i32.const 0)
     )
     (unreachable)
    )
   )
   (drop
-   (call $~lib/array/Array<i32>#push
+   (call $~lib/array/Array<i32>#reverse
     (get_global $std/array/arr)
-    (i32.const 45)
    )
   )
   (if
@@ -7856,7 +13908,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 47)
+     (i32.const 99)
      (i32.const 0)
     )
     (unreachable)
@@ -7867,13 +13919,13 @@
     (call $std/array/internalCapacity<i32>
      (get_global $std/array/arr)
     )
-    (i32.const 3)
+    (i32.const 5)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 48)
+     (i32.const 100)
      (i32.const 0)
     )
     (unreachable)
@@ -7885,13 +13937,13 @@
      (get_global $std/array/arr)
      (i32.const 0)
     )
-    (i32.const 43)
+    (i32.const 44)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 49)
+     (i32.const 101)
      (i32.const 0)
     )
     (unreachable)
@@ -7903,13 +13955,13 @@
      (get_global $std/array/arr)
      (i32.const 1)
     )
-    (i32.const 44)
+    (i32.const 43)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 50)
+     (i32.const 102)
      (i32.const 0)
     )
     (unreachable)
@@ -7921,418 +13973,480 @@
      (get_global $std/array/arr)
      (i32.const 2)
     )
-    (i32.const 45)
+    (i32.const 42)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 51)
+     (i32.const 103)
      (i32.const 0)
     )
     (unreachable)
    )
   )
   (drop
-   (call $~lib/array/Array<i32>#unshift
+   (call $~lib/array/Array<i32>#push
     (get_global $std/array/arr)
-    (i32.const 42)
+    (i32.const 43)
    )
   )
-  (if
-   (i32.ne
-    (i32.load offset=4
-     (get_global $std/array/arr)
-    )
-    (i32.const 4)
+  (drop
+   (call $~lib/array/Array<i32>#push
+    (get_global $std/array/arr)
+    (i32.const 44)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 104)
-     (i32.const 57)
-     (i32.const 0)
-    )
-    (unreachable)
+  )
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#indexOf
+    (get_global $std/array/arr)
+    (i32.const 44)
+    (i32.const 0)
    )
   )
   (if
-   (i32.ne
-    (call $std/array/internalCapacity<i32>
-     (get_global $std/array/arr)
-    )
-    (i32.const 4)
-   )
+   (get_global $std/array/i)
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 58)
+     (i32.const 112)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#indexOf
+    (get_global $std/array/arr)
+    (i32.const 42)
+    (i32.const 0)
+   )
+  )
   (if
    (i32.ne
-    (call $~lib/array/Array<i32>#__get
-     (get_global $std/array/arr)
-     (i32.const 0)
-    )
-    (i32.const 42)
+    (get_global $std/array/i)
+    (i32.const 2)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 59)
+     (i32.const 116)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#indexOf
+    (get_global $std/array/arr)
+    (i32.const 45)
+    (i32.const 0)
+   )
+  )
   (if
    (i32.ne
-    (call $~lib/array/Array<i32>#__get
-     (get_global $std/array/arr)
-     (i32.const 1)
-    )
-    (i32.const 43)
+    (get_global $std/array/i)
+    (i32.const -1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 60)
+     (i32.const 120)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#indexOf
+    (get_global $std/array/arr)
+    (i32.const 43)
+    (i32.const 100)
+   )
+  )
   (if
    (i32.ne
-    (call $~lib/array/Array<i32>#__get
-     (get_global $std/array/arr)
-     (i32.const 2)
-    )
-    (i32.const 44)
+    (get_global $std/array/i)
+    (i32.const -1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 61)
+     (i32.const 124)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#indexOf
+    (get_global $std/array/arr)
+    (i32.const 43)
+    (i32.const -100)
+   )
+  )
   (if
    (i32.ne
-    (call $~lib/array/Array<i32>#__get
-     (get_global $std/array/arr)
-     (i32.const 3)
-    )
-    (i32.const 45)
+    (get_global $std/array/i)
+    (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 62)
+     (i32.const 128)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (drop
-   (call $~lib/array/Array<i32>#unshift
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#indexOf
     (get_global $std/array/arr)
-    (i32.const 41)
+    (i32.const 43)
+    (i32.const -2)
    )
   )
   (if
    (i32.ne
-    (i32.load offset=4
-     (get_global $std/array/arr)
-    )
-    (i32.const 5)
+    (get_global $std/array/i)
+    (i32.const 3)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 66)
+     (i32.const 132)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#indexOf
+    (get_global $std/array/arr)
+    (i32.const 43)
+    (i32.const -4)
+   )
+  )
   (if
    (i32.ne
-    (call $std/array/internalCapacity<i32>
-     (get_global $std/array/arr)
-    )
-    (i32.const 5)
+    (get_global $std/array/i)
+    (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 67)
+     (i32.const 136)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#indexOf
+    (get_global $std/array/arr)
+    (i32.const 43)
+    (i32.const 0)
+   )
+  )
   (if
    (i32.ne
-    (call $~lib/array/Array<i32>#__get
-     (get_global $std/array/arr)
-     (i32.const 0)
-    )
-    (i32.const 41)
+    (get_global $std/array/i)
+    (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 68)
+     (i32.const 140)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#indexOf
+    (get_global $std/array/arr)
+    (i32.const 43)
+    (i32.const 1)
+   )
+  )
   (if
    (i32.ne
-    (call $~lib/array/Array<i32>#__get
-     (get_global $std/array/arr)
-     (i32.const 1)
-    )
-    (i32.const 42)
+    (get_global $std/array/i)
+    (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 69)
+     (i32.const 144)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#indexOf
+    (get_global $std/array/arr)
+    (i32.const 43)
+    (i32.const 2)
+   )
+  )
   (if
    (i32.ne
-    (call $~lib/array/Array<i32>#__get
-     (get_global $std/array/arr)
-     (i32.const 2)
-    )
-    (i32.const 43)
+    (get_global $std/array/i)
+    (i32.const 3)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 70)
+     (i32.const 148)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/includes
+   (call $~lib/array/Array<i32>#includes
+    (get_global $std/array/arr)
+    (i32.const 44)
+    (i32.const 0)
+   )
+  )
   (if
    (i32.ne
-    (call $~lib/array/Array<i32>#__get
-     (get_global $std/array/arr)
-     (i32.const 3)
-    )
-    (i32.const 44)
+    (get_global $std/array/includes)
+    (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 71)
+     (i32.const 154)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/includes
+   (call $~lib/array/Array<i32>#includes
+    (get_global $std/array/arr)
+    (i32.const 42)
+    (i32.const 0)
+   )
+  )
   (if
    (i32.ne
-    (call $~lib/array/Array<i32>#__get
-     (get_global $std/array/arr)
-     (i32.const 4)
-    )
-    (i32.const 45)
+    (get_global $std/array/includes)
+    (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 72)
+     (i32.const 158)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#shift
+  (set_global $std/array/includes
+   (call $~lib/array/Array<i32>#includes
     (get_global $std/array/arr)
+    (i32.const 45)
+    (i32.const 0)
    )
   )
   (if
-   (i32.ne
-    (get_global $std/array/i)
-    (i32.const 41)
-   )
+   (get_global $std/array/includes)
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 78)
+     (i32.const 162)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (if
-   (i32.ne
-    (i32.load offset=4
-     (get_global $std/array/arr)
-    )
-    (i32.const 4)
+  (set_global $std/array/includes
+   (call $~lib/array/Array<i32>#includes
+    (get_global $std/array/arr)
+    (i32.const 43)
+    (i32.const 100)
    )
+  )
+  (if
+   (get_global $std/array/includes)
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 79)
+     (i32.const 166)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/includes
+   (call $~lib/array/Array<i32>#includes
+    (get_global $std/array/arr)
+    (i32.const 43)
+    (i32.const -100)
+   )
+  )
   (if
    (i32.ne
-    (call $std/array/internalCapacity<i32>
-     (get_global $std/array/arr)
-    )
-    (i32.const 5)
+    (get_global $std/array/includes)
+    (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 80)
+     (i32.const 170)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/includes
+   (call $~lib/array/Array<i32>#includes
+    (get_global $std/array/arr)
+    (i32.const 43)
+    (i32.const -2)
+   )
+  )
   (if
    (i32.ne
-    (call $~lib/array/Array<i32>#__get
-     (get_global $std/array/arr)
-     (i32.const 0)
-    )
-    (i32.const 42)
+    (get_global $std/array/includes)
+    (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 81)
+     (i32.const 174)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/includes
+   (call $~lib/array/Array<i32>#includes
+    (get_global $std/array/arr)
+    (i32.const 43)
+    (i32.const -4)
+   )
+  )
   (if
    (i32.ne
-    (call $~lib/array/Array<i32>#__get
-     (get_global $std/array/arr)
-     (i32.const 1)
-    )
-    (i32.const 43)
+    (get_global $std/array/includes)
+    (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 82)
+     (i32.const 178)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/includes
+   (call $~lib/array/Array<i32>#includes
+    (get_global $std/array/arr)
+    (i32.const 43)
+    (i32.const 0)
+   )
+  )
   (if
    (i32.ne
-    (call $~lib/array/Array<i32>#__get
-     (get_global $std/array/arr)
-     (i32.const 2)
-    )
-    (i32.const 44)
+    (get_global $std/array/includes)
+    (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 83)
+     (i32.const 182)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/includes
+   (call $~lib/array/Array<i32>#includes
+    (get_global $std/array/arr)
+    (i32.const 43)
+    (i32.const 1)
+   )
+  )
   (if
    (i32.ne
-    (call $~lib/array/Array<i32>#__get
-     (get_global $std/array/arr)
-     (i32.const 3)
-    )
-    (i32.const 45)
+    (get_global $std/array/includes)
+    (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 84)
+     (i32.const 186)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#pop
+  (set_global $std/array/includes
+   (call $~lib/array/Array<i32>#includes
     (get_global $std/array/arr)
+    (i32.const 43)
+    (i32.const 2)
    )
   )
   (if
    (i32.ne
-    (get_global $std/array/i)
-    (i32.const 45)
+    (get_global $std/array/includes)
+    (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 88)
+     (i32.const 190)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (drop
+   (call $~lib/array/Array<i32>#splice
+    (get_global $std/array/arr)
+    (i32.const 1)
+    (i32.const 1)
+   )
+  )
   (if
    (i32.ne
     (i32.load offset=4
      (get_global $std/array/arr)
     )
-    (i32.const 3)
+    (i32.const 4)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 89)
+     (i32.const 194)
      (i32.const 0)
     )
     (unreachable)
@@ -8349,7 +14463,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 90)
+     (i32.const 195)
      (i32.const 0)
     )
     (unreachable)
@@ -8361,13 +14475,13 @@
      (get_global $std/array/arr)
      (i32.const 0)
     )
-    (i32.const 42)
+    (i32.const 44)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 91)
+     (i32.const 196)
      (i32.const 0)
     )
     (unreachable)
@@ -8379,88 +14493,114 @@
      (get_global $std/array/arr)
      (i32.const 1)
     )
-    (i32.const 43)
+    (i32.const 42)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 92)
+     (i32.const 197)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (call $~lib/array/Array<i32>#__set
+   (get_global $std/array/arr)
+   (i32.const 0)
+   (i32.const 0)
+  )
+  (call $~lib/array/Array<i32>#__set
+   (get_global $std/array/arr)
+   (i32.const 1)
+   (i32.const 1)
+  )
+  (call $~lib/array/Array<i32>#__set
+   (get_global $std/array/arr)
+   (i32.const 2)
+   (i32.const 2)
+  )
+  (call $~lib/array/Array<i32>#__set
+   (get_global $std/array/arr)
+   (i32.const 3)
+   (i32.const 3)
+  )
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#findIndex
+    (get_global $std/array/arr)
+    (i32.const 136)
+   )
+  )
   (if
-   (i32.ne
-    (call $~lib/array/Array<i32>#__get
-     (get_global $std/array/arr)
-     (i32.const 2)
-    )
-    (i32.const 44)
-   )
+   (get_global $std/array/i)
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 93)
+     (i32.const 207)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (drop
-   (call $~lib/array/Array<i32>#reverse
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#findIndex
     (get_global $std/array/arr)
+    (i32.const 144)
    )
   )
   (if
    (i32.ne
-    (i32.load offset=4
-     (get_global $std/array/arr)
-    )
-    (i32.const 3)
+    (get_global $std/array/i)
+    (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 99)
+     (i32.const 210)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#findIndex
+    (get_global $std/array/arr)
+    (i32.const 152)
+   )
+  )
   (if
    (i32.ne
-    (call $std/array/internalCapacity<i32>
-     (get_global $std/array/arr)
-    )
-    (i32.const 5)
+    (get_global $std/array/i)
+    (i32.const -1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 100)
+     (i32.const 213)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#findIndex
+    (get_global $std/array/arr)
+    (i32.const 160)
+   )
+  )
   (if
    (i32.ne
-    (call $~lib/array/Array<i32>#__get
-     (get_global $std/array/arr)
-     (i32.const 0)
-    )
-    (i32.const 44)
+    (get_global $std/array/i)
+    (i32.const -1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 101)
+     (i32.const 221)
      (i32.const 0)
     )
     (unreachable)
@@ -8468,498 +14608,478 @@
   )
   (if
    (i32.ne
-    (call $~lib/array/Array<i32>#__get
+    (i32.load offset=4
      (get_global $std/array/arr)
-     (i32.const 1)
     )
-    (i32.const 43)
+    (i32.const 8)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 102)
+     (i32.const 222)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#findIndex
+    (get_global $std/array/arr)
+    (i32.const 168)
+   )
+  )
   (if
-   (i32.ne
-    (call $~lib/array/Array<i32>#__get
-     (get_global $std/array/arr)
-     (i32.const 2)
-    )
-    (i32.const 42)
+   (i32.eq
+    (get_global $std/array/i)
+    (i32.const -1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 103)
+     (i32.const 224)
      (i32.const 0)
     )
     (unreachable)
    )
   )
   (drop
-   (call $~lib/array/Array<i32>#push
+   (call $~lib/array/Array<i32>#pop
     (get_global $std/array/arr)
-    (i32.const 43)
    )
   )
   (drop
-   (call $~lib/array/Array<i32>#push
+   (call $~lib/array/Array<i32>#pop
     (get_global $std/array/arr)
-    (i32.const 44)
    )
   )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#indexOf
+  (drop
+   (call $~lib/array/Array<i32>#pop
     (get_global $std/array/arr)
-    (i32.const 44)
-    (i32.const 0)
    )
   )
-  (if
-   (get_global $std/array/i)
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 104)
-     (i32.const 112)
-     (i32.const 0)
-    )
-    (unreachable)
+  (drop
+   (call $~lib/array/Array<i32>#pop
+    (get_global $std/array/arr)
    )
   )
   (set_global $std/array/i
-   (call $~lib/array/Array<i32>#indexOf
+   (call $~lib/array/Array<i32>#findIndex
     (get_global $std/array/arr)
-    (i32.const 42)
-    (i32.const 0)
+    (i32.const 176)
    )
   )
   (if
    (i32.ne
     (get_global $std/array/i)
-    (i32.const 2)
+    (i32.const -1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 116)
+     (i32.const 237)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#indexOf
-    (get_global $std/array/arr)
-    (i32.const 45)
-    (i32.const 0)
-   )
-  )
   (if
    (i32.ne
-    (get_global $std/array/i)
-    (i32.const -1)
+    (i32.load offset=4
+     (get_global $std/array/arr)
+    )
+    (i32.const 2)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 120)
+     (i32.const 238)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#indexOf
+  (drop
+   (call $~lib/array/Array<i32>#push
     (get_global $std/array/arr)
-    (i32.const 43)
-    (i32.const 100)
+    (i32.const 2)
    )
   )
-  (if
-   (i32.ne
-    (get_global $std/array/i)
-    (i32.const -1)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 104)
-     (i32.const 124)
-     (i32.const 0)
-    )
-    (unreachable)
+  (drop
+   (call $~lib/array/Array<i32>#push
+    (get_global $std/array/arr)
+    (i32.const 3)
    )
   )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#indexOf
+  (set_global $std/array/every
+   (call $~lib/array/Array<i32>#every
     (get_global $std/array/arr)
-    (i32.const 43)
-    (i32.const -100)
+    (i32.const 184)
    )
   )
   (if
    (i32.ne
-    (get_global $std/array/i)
+    (get_global $std/array/every)
     (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 128)
+     (i32.const 246)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#indexOf
+  (set_global $std/array/every
+   (call $~lib/array/Array<i32>#every
     (get_global $std/array/arr)
-    (i32.const 43)
-    (i32.const -2)
+    (i32.const 192)
    )
   )
   (if
-   (i32.ne
-    (get_global $std/array/i)
-    (i32.const 3)
-   )
+   (get_global $std/array/every)
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 132)
+     (i32.const 249)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#indexOf
+  (set_global $std/array/every
+   (call $~lib/array/Array<i32>#every
     (get_global $std/array/arr)
-    (i32.const 43)
-    (i32.const -4)
+    (i32.const 200)
    )
   )
   (if
    (i32.ne
-    (get_global $std/array/i)
+    (get_global $std/array/every)
     (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 136)
+     (i32.const 257)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#indexOf
-    (get_global $std/array/arr)
-    (i32.const 43)
-    (i32.const 0)
-   )
-  )
   (if
    (i32.ne
-    (get_global $std/array/i)
-    (i32.const 1)
+    (i32.load offset=4
+     (get_global $std/array/arr)
+    )
+    (i32.const 8)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 140)
+     (i32.const 258)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#indexOf
+  (set_global $std/array/every
+   (call $~lib/array/Array<i32>#every
     (get_global $std/array/arr)
-    (i32.const 43)
-    (i32.const 1)
+    (i32.const 208)
    )
   )
   (if
-   (i32.ne
-    (get_global $std/array/i)
-    (i32.const 1)
-   )
+   (get_global $std/array/every)
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 144)
+     (i32.const 260)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#indexOf
+  (drop
+   (call $~lib/array/Array<i32>#pop
+    (get_global $std/array/arr)
+   )
+  )
+  (drop
+   (call $~lib/array/Array<i32>#pop
+    (get_global $std/array/arr)
+   )
+  )
+  (drop
+   (call $~lib/array/Array<i32>#pop
     (get_global $std/array/arr)
-    (i32.const 43)
-    (i32.const 2)
+   )
+  )
+  (drop
+   (call $~lib/array/Array<i32>#pop
+    (get_global $std/array/arr)
+   )
+  )
+  (set_global $std/array/every
+   (call $~lib/array/Array<i32>#every
+    (get_global $std/array/arr)
+    (i32.const 216)
    )
   )
   (if
    (i32.ne
-    (get_global $std/array/i)
-    (i32.const 3)
+    (get_global $std/array/every)
+    (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 148)
+     (i32.const 273)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/includes
-   (call $~lib/array/Array<i32>#includes
-    (get_global $std/array/arr)
-    (i32.const 44)
-    (i32.const 0)
-   )
-  )
   (if
    (i32.ne
-    (get_global $std/array/includes)
-    (i32.const 1)
+    (i32.load offset=4
+     (get_global $std/array/arr)
+    )
+    (i32.const 2)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 154)
+     (i32.const 274)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/includes
-   (call $~lib/array/Array<i32>#includes
+  (drop
+   (call $~lib/array/Array<i32>#push
+    (get_global $std/array/arr)
+    (i32.const 2)
+   )
+  )
+  (drop
+   (call $~lib/array/Array<i32>#push
     (get_global $std/array/arr)
-    (i32.const 42)
-    (i32.const 0)
+    (i32.const 3)
+   )
+  )
+  (set_global $std/array/some
+   (call $~lib/array/Array<i32>#some
+    (get_global $std/array/arr)
+    (i32.const 224)
    )
   )
   (if
    (i32.ne
-    (get_global $std/array/includes)
+    (get_global $std/array/some)
     (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 158)
+     (i32.const 282)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/includes
-   (call $~lib/array/Array<i32>#includes
+  (set_global $std/array/some
+   (call $~lib/array/Array<i32>#some
     (get_global $std/array/arr)
-    (i32.const 45)
-    (i32.const 0)
+    (i32.const 232)
    )
   )
   (if
-   (get_global $std/array/includes)
+   (get_global $std/array/some)
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 162)
+     (i32.const 285)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/includes
-   (call $~lib/array/Array<i32>#includes
+  (set_global $std/array/some
+   (call $~lib/array/Array<i32>#some
     (get_global $std/array/arr)
-    (i32.const 43)
-    (i32.const 100)
+    (i32.const 240)
    )
   )
   (if
-   (get_global $std/array/includes)
+   (get_global $std/array/some)
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 166)
+     (i32.const 293)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/includes
-   (call $~lib/array/Array<i32>#includes
-    (get_global $std/array/arr)
-    (i32.const 43)
-    (i32.const -100)
-   )
-  )
   (if
    (i32.ne
-    (get_global $std/array/includes)
-    (i32.const 1)
+    (i32.load offset=4
+     (get_global $std/array/arr)
+    )
+    (i32.const 8)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 170)
+     (i32.const 294)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/includes
-   (call $~lib/array/Array<i32>#includes
+  (set_global $std/array/some
+   (call $~lib/array/Array<i32>#some
     (get_global $std/array/arr)
-    (i32.const 43)
-    (i32.const -2)
+    (i32.const 248)
    )
   )
   (if
    (i32.ne
-    (get_global $std/array/includes)
+    (get_global $std/array/some)
     (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 174)
+     (i32.const 296)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/includes
-   (call $~lib/array/Array<i32>#includes
+  (drop
+   (call $~lib/array/Array<i32>#pop
     (get_global $std/array/arr)
-    (i32.const 43)
-    (i32.const -4)
    )
   )
-  (if
-   (i32.ne
-    (get_global $std/array/includes)
-    (i32.const 1)
+  (drop
+   (call $~lib/array/Array<i32>#pop
+    (get_global $std/array/arr)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 104)
-     (i32.const 178)
-     (i32.const 0)
-    )
-    (unreachable)
+  )
+  (drop
+   (call $~lib/array/Array<i32>#pop
+    (get_global $std/array/arr)
    )
   )
-  (set_global $std/array/includes
-   (call $~lib/array/Array<i32>#includes
+  (drop
+   (call $~lib/array/Array<i32>#pop
     (get_global $std/array/arr)
-    (i32.const 43)
-    (i32.const 0)
    )
   )
-  (if
-   (i32.ne
-    (get_global $std/array/includes)
-    (i32.const 1)
+  (set_global $std/array/some
+   (call $~lib/array/Array<i32>#some
+    (get_global $std/array/arr)
+    (i32.const 256)
    )
+  )
+  (if
+   (get_global $std/array/some)
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 182)
+     (i32.const 309)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/includes
-   (call $~lib/array/Array<i32>#includes
-    (get_global $std/array/arr)
-    (i32.const 43)
-    (i32.const 1)
-   )
-  )
   (if
    (i32.ne
-    (get_global $std/array/includes)
-    (i32.const 1)
+    (i32.load offset=4
+     (get_global $std/array/arr)
+    )
+    (i32.const 2)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 186)
+     (i32.const 310)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/includes
-   (call $~lib/array/Array<i32>#includes
+  (drop
+   (call $~lib/array/Array<i32>#push
     (get_global $std/array/arr)
-    (i32.const 43)
     (i32.const 2)
    )
   )
+  (drop
+   (call $~lib/array/Array<i32>#push
+    (get_global $std/array/arr)
+    (i32.const 3)
+   )
+  )
+  (set_global $std/array/i
+   (i32.const 0)
+  )
+  (call $~lib/array/Array<i32>#forEach
+   (get_global $std/array/arr)
+   (i32.const 264)
+  )
   (if
    (i32.ne
-    (get_global $std/array/includes)
-    (i32.const 1)
+    (get_global $std/array/i)
+    (i32.const 6)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 190)
+     (i32.const 319)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (call $~lib/array/Array<i32>#splice
+  (set_global $std/array/i
+   (i32.const 0)
+  )
+  (call $~lib/array/Array<i32>#forEach
    (get_global $std/array/arr)
+   (i32.const 272)
   )
   (if
    (i32.ne
-    (i32.load offset=4
-     (get_global $std/array/arr)
-    )
-    (i32.const 4)
+    (get_global $std/array/i)
+    (i32.const 6)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 194)
+     (i32.const 328)
      (i32.const 0)
     )
     (unreachable)
@@ -8967,153 +15087,178 @@
   )
   (if
    (i32.ne
-    (call $std/array/internalCapacity<i32>
+    (i32.load offset=4
      (get_global $std/array/arr)
     )
-    (i32.const 5)
+    (i32.const 8)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 195)
+     (i32.const 329)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/i
+   (i32.const 0)
+  )
+  (call $~lib/array/Array<i32>#forEach
+   (get_global $std/array/arr)
+   (i32.const 280)
+  )
   (if
    (i32.ne
-    (call $~lib/array/Array<i32>#__get
-     (get_global $std/array/arr)
-     (i32.const 0)
-    )
-    (i32.const 44)
+    (get_global $std/array/i)
+    (i32.const 406)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 196)
+     (i32.const 332)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (drop
+   (call $~lib/array/Array<i32>#pop
+    (get_global $std/array/arr)
+   )
+  )
+  (drop
+   (call $~lib/array/Array<i32>#pop
+    (get_global $std/array/arr)
+   )
+  )
+  (drop
+   (call $~lib/array/Array<i32>#pop
+    (get_global $std/array/arr)
+   )
+  )
+  (drop
+   (call $~lib/array/Array<i32>#pop
+    (get_global $std/array/arr)
+   )
+  )
+  (set_global $std/array/i
+   (i32.const 0)
+  )
+  (call $~lib/array/Array<i32>#forEach
+   (get_global $std/array/arr)
+   (i32.const 288)
+  )
   (if
    (i32.ne
-    (call $~lib/array/Array<i32>#__get
-     (get_global $std/array/arr)
-     (i32.const 1)
-    )
-    (i32.const 42)
+    (get_global $std/array/i)
+    (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 197)
+     (i32.const 346)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (call $~lib/array/Array<i32>#__set
-   (get_global $std/array/arr)
-   (i32.const 0)
-   (i32.const 0)
-  )
-  (call $~lib/array/Array<i32>#__set
-   (get_global $std/array/arr)
-   (i32.const 1)
-   (i32.const 1)
-  )
-  (call $~lib/array/Array<i32>#__set
-   (get_global $std/array/arr)
-   (i32.const 2)
-   (i32.const 2)
-  )
-  (call $~lib/array/Array<i32>#__set
-   (get_global $std/array/arr)
-   (i32.const 3)
-   (i32.const 3)
-  )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#findIndex
-    (get_global $std/array/arr)
-    (i32.const 0)
-   )
-  )
   (if
-   (get_global $std/array/i)
+   (i32.ne
+    (i32.load offset=4
+     (get_global $std/array/arr)
+    )
+    (i32.const 2)
+   )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 207)
+     (i32.const 347)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#findIndex
+  (drop
+   (call $~lib/array/Array<i32>#push
+    (get_global $std/array/arr)
+    (i32.const 2)
+   )
+  )
+  (drop
+   (call $~lib/array/Array<i32>#push
+    (get_global $std/array/arr)
+    (i32.const 3)
+   )
+  )
+  (set_global $std/array/newArr
+   (call $~lib/array/Array<i32>#map<f32>
     (get_global $std/array/arr)
-    (i32.const 1)
    )
   )
   (if
    (i32.ne
-    (get_global $std/array/i)
-    (i32.const 1)
+    (i32.load offset=4
+     (get_global $std/array/newArr)
+    )
+    (i32.const 4)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 210)
+     (i32.const 356)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#findIndex
-    (get_global $std/array/arr)
-    (i32.const 2)
-   )
-  )
   (if
-   (i32.ne
-    (get_global $std/array/i)
-    (i32.const -1)
+   (f32.ne
+    (call $~lib/array/Array<f32>#__get
+     (get_global $std/array/newArr)
+     (i32.const 0)
+    )
+    (f32.convert_s/i32
+     (call $~lib/array/Array<i32>#__get
+      (get_global $std/array/arr)
+      (i32.const 0)
+     )
+    )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 213)
+     (i32.const 357)
      (i32.const 0)
     )
     (unreachable)
    )
   )
   (set_global $std/array/i
-   (call $~lib/array/Array<i32>#findIndex
+   (i32.const 0)
+  )
+  (drop
+   (call $~lib/array/Array<i32>#map<i32>
     (get_global $std/array/arr)
-    (i32.const 3)
+    (i32.const 304)
    )
   )
   (if
    (i32.ne
     (get_global $std/array/i)
-    (i32.const -1)
+    (i32.const 6)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 221)
+     (i32.const 366)
      (i32.const 0)
     )
     (unreachable)
@@ -9130,28 +15275,31 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 222)
+     (i32.const 367)
      (i32.const 0)
     )
     (unreachable)
    )
   )
   (set_global $std/array/i
-   (call $~lib/array/Array<i32>#findIndex
+   (i32.const 0)
+  )
+  (drop
+   (call $~lib/array/Array<i32>#map<i32>
     (get_global $std/array/arr)
-    (i32.const 4)
+    (i32.const 312)
    )
   )
   (if
-   (i32.eq
+   (i32.ne
     (get_global $std/array/i)
-    (i32.const -1)
+    (i32.const 406)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 224)
+     (i32.const 374)
      (i32.const 0)
     )
     (unreachable)
@@ -9178,21 +15326,24 @@
    )
   )
   (set_global $std/array/i
-   (call $~lib/array/Array<i32>#findIndex
+   (i32.const 0)
+  )
+  (drop
+   (call $~lib/array/Array<i32>#map<i32>
     (get_global $std/array/arr)
-    (i32.const 5)
+    (i32.const 320)
    )
   )
   (if
    (i32.ne
     (get_global $std/array/i)
-    (i32.const -1)
+    (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 237)
+     (i32.const 389)
      (i32.const 0)
     )
     (unreachable)
@@ -9209,7 +15360,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 238)
+     (i32.const 390)
      (i32.const 0)
     )
     (unreachable)
@@ -9227,61 +15378,48 @@
     (i32.const 3)
    )
   )
-  (set_global $std/array/every
-   (call $~lib/array/Array<i32>#every
+  (set_global $std/array/filteredArr
+   (call $~lib/array/Array<i32>#filter
     (get_global $std/array/arr)
-    (i32.const 6)
+    (i32.const 328)
    )
   )
   (if
    (i32.ne
-    (get_global $std/array/every)
-    (i32.const 1)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 104)
-     (i32.const 246)
-     (i32.const 0)
+    (i32.load offset=4
+     (get_global $std/array/filteredArr)
     )
-    (unreachable)
-   )
-  )
-  (set_global $std/array/every
-   (call $~lib/array/Array<i32>#every
-    (get_global $std/array/arr)
-    (i32.const 7)
+    (i32.const 2)
    )
-  )
-  (if
-   (get_global $std/array/every)
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 249)
+     (i32.const 398)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/every
-   (call $~lib/array/Array<i32>#every
+  (set_global $std/array/i
+   (i32.const 0)
+  )
+  (drop
+   (call $~lib/array/Array<i32>#filter
     (get_global $std/array/arr)
-    (i32.const 8)
+    (i32.const 336)
    )
   )
   (if
    (i32.ne
-    (get_global $std/array/every)
-    (i32.const 1)
+    (get_global $std/array/i)
+    (i32.const 6)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 257)
+     (i32.const 407)
      (i32.const 0)
     )
     (unreachable)
@@ -9298,25 +15436,31 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 258)
+     (i32.const 408)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/every
-   (call $~lib/array/Array<i32>#every
+  (set_global $std/array/i
+   (i32.const 0)
+  )
+  (drop
+   (call $~lib/array/Array<i32>#filter
     (get_global $std/array/arr)
-    (i32.const 9)
+    (i32.const 344)
    )
   )
   (if
-   (get_global $std/array/every)
+   (i32.ne
+    (get_global $std/array/i)
+    (i32.const 406)
+   )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 260)
+     (i32.const 415)
      (i32.const 0)
     )
     (unreachable)
@@ -9342,22 +15486,25 @@
     (get_global $std/array/arr)
    )
   )
-  (set_global $std/array/every
-   (call $~lib/array/Array<i32>#every
+  (set_global $std/array/i
+   (i32.const 0)
+  )
+  (drop
+   (call $~lib/array/Array<i32>#filter
     (get_global $std/array/arr)
-    (i32.const 10)
+    (i32.const 352)
    )
   )
   (if
    (i32.ne
-    (get_global $std/array/every)
+    (get_global $std/array/i)
     (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 273)
+     (i32.const 430)
      (i32.const 0)
     )
     (unreachable)
@@ -9374,7 +15521,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 274)
+     (i32.const 431)
      (i32.const 0)
     )
     (unreachable)
@@ -9392,58 +15539,114 @@
     (i32.const 3)
    )
   )
-  (set_global $std/array/some
-   (call $~lib/array/Array<i32>#some
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#reduce<i32>
     (get_global $std/array/arr)
-    (i32.const 11)
+    (i32.const 360)
+    (i32.const 0)
    )
   )
   (if
    (i32.ne
-    (get_global $std/array/some)
-    (i32.const 1)
+    (get_global $std/array/i)
+    (i32.const 6)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 282)
+     (i32.const 439)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/some
-   (call $~lib/array/Array<i32>#some
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#reduce<i32>
     (get_global $std/array/arr)
-    (i32.const 12)
+    (i32.const 368)
+    (i32.const 4)
    )
   )
   (if
-   (get_global $std/array/some)
+   (i32.ne
+    (get_global $std/array/i)
+    (i32.const 10)
+   )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 285)
+     (i32.const 443)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/some
-   (call $~lib/array/Array<i32>#some
+  (set_global $std/array/boolVal
+   (i32.and
+    (call $~lib/array/Array<i32>#reduce<i32>
+     (get_global $std/array/arr)
+     (i32.const 376)
+     (i32.const 0)
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (i32.ne
+    (get_global $std/array/boolVal)
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 446)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/array/boolVal
+   (i32.and
+    (call $~lib/array/Array<i32>#reduce<i32>
+     (get_global $std/array/arr)
+     (i32.const 384)
+     (i32.const 0)
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (get_global $std/array/boolVal)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 449)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#reduce<i32>
     (get_global $std/array/arr)
-    (i32.const 13)
+    (i32.const 392)
+    (i32.const 0)
    )
   )
   (if
-   (get_global $std/array/some)
+   (i32.ne
+    (get_global $std/array/i)
+    (i32.const 6)
+   )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 293)
+     (i32.const 457)
      (i32.const 0)
     )
     (unreachable)
@@ -9460,28 +15663,29 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 294)
+     (i32.const 458)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/some
-   (call $~lib/array/Array<i32>#some
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#reduce<i32>
     (get_global $std/array/arr)
-    (i32.const 14)
+    (i32.const 400)
+    (i32.const 0)
    )
   )
   (if
    (i32.ne
-    (get_global $std/array/some)
-    (i32.const 1)
+    (get_global $std/array/i)
+    (i32.const 10)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 296)
+     (i32.const 460)
      (i32.const 0)
     )
     (unreachable)
@@ -9507,19 +15711,23 @@
     (get_global $std/array/arr)
    )
   )
-  (set_global $std/array/some
-   (call $~lib/array/Array<i32>#some
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#reduce<i32>
     (get_global $std/array/arr)
-    (i32.const 15)
+    (i32.const 408)
+    (i32.const 0)
    )
   )
   (if
-   (get_global $std/array/some)
+   (i32.ne
+    (get_global $std/array/i)
+    (i32.const 1)
+   )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 309)
+     (i32.const 473)
      (i32.const 0)
     )
     (unreachable)
@@ -9536,7 +15744,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 310)
+     (i32.const 474)
      (i32.const 0)
     )
     (unreachable)
@@ -9555,11 +15763,11 @@
    )
   )
   (set_global $std/array/i
-   (i32.const 0)
-  )
-  (call $~lib/array/Array<i32>#forEach
-   (get_global $std/array/arr)
-   (i32.const 16)
+   (call $~lib/array/Array<i32>#reduceRight<i32>
+    (get_global $std/array/arr)
+    (i32.const 416)
+    (i32.const 0)
+   )
   )
   (if
    (i32.ne
@@ -9570,18 +15778,87 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 319)
+     (i32.const 482)
      (i32.const 0)
     )
     (unreachable)
    )
   )
   (set_global $std/array/i
-   (i32.const 0)
+   (call $~lib/array/Array<i32>#reduceRight<i32>
+    (get_global $std/array/arr)
+    (i32.const 424)
+    (i32.const 4)
+   )
   )
-  (call $~lib/array/Array<i32>#forEach
-   (get_global $std/array/arr)
-   (i32.const 17)
+  (if
+   (i32.ne
+    (get_global $std/array/i)
+    (i32.const 10)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 486)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/array/boolVal
+   (i32.and
+    (call $~lib/array/Array<i32>#reduceRight<i32>
+     (get_global $std/array/arr)
+     (i32.const 432)
+     (i32.const 0)
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (i32.ne
+    (get_global $std/array/boolVal)
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 489)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/array/boolVal
+   (i32.and
+    (call $~lib/array/Array<i32>#reduceRight<i32>
+     (get_global $std/array/arr)
+     (i32.const 440)
+     (i32.const 0)
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (get_global $std/array/boolVal)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 492)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/array/i
+   (call $~lib/array/Array<i32>#reduceRight<i32>
+    (get_global $std/array/arr)
+    (i32.const 448)
+    (i32.const 0)
+   )
   )
   (if
    (i32.ne
@@ -9592,7 +15869,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 328)
+     (i32.const 500)
      (i32.const 0)
     )
     (unreachable)
@@ -9609,29 +15886,29 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 329)
+     (i32.const 501)
      (i32.const 0)
     )
     (unreachable)
    )
   )
   (set_global $std/array/i
-   (i32.const 0)
-  )
-  (call $~lib/array/Array<i32>#forEach
-   (get_global $std/array/arr)
-   (i32.const 18)
+   (call $~lib/array/Array<i32>#reduceRight<i32>
+    (get_global $std/array/arr)
+    (i32.const 456)
+    (i32.const 0)
+   )
   )
   (if
    (i32.ne
     (get_global $std/array/i)
-    (i32.const 406)
+    (i32.const 10)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 332)
+     (i32.const 503)
      (i32.const 0)
     )
     (unreachable)
@@ -9658,44 +15935,53 @@
    )
   )
   (set_global $std/array/i
-   (i32.const 0)
-  )
-  (call $~lib/array/Array<i32>#forEach
-   (get_global $std/array/arr)
-   (i32.const 19)
+   (call $~lib/array/Array<i32>#reduceRight<i32>
+    (get_global $std/array/arr)
+    (i32.const 464)
+    (i32.const 0)
+   )
   )
   (if
    (i32.ne
     (get_global $std/array/i)
-    (i32.const 1)
+    (i32.const 6)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 346)
+     (i32.const 516)
      (i32.const 0)
     )
     (unreachable)
    )
   )
   (if
-   (i32.ne
-    (i32.load offset=4
-     (get_global $std/array/arr)
-    )
-    (i32.const 2)
+   (i32.load offset=4
+    (get_global $std/array/arr)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 347)
+     (i32.const 517)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (drop
+   (call $~lib/array/Array<i32>#push
+    (get_global $std/array/arr)
+    (i32.const 0)
+   )
+  )
+  (drop
+   (call $~lib/array/Array<i32>#push
+    (get_global $std/array/arr)
+    (i32.const 1)
+   )
+  )
   (drop
    (call $~lib/array/Array<i32>#push
     (get_global $std/array/arr)
@@ -9708,871 +15994,1077 @@
     (i32.const 3)
    )
   )
-  (set_global $std/array/newArr
-   (call $~lib/array/Array<i32>#map<f32>
-    (get_global $std/array/arr)
+  (call $~lib/math/NativeMath.seedRandom
+   (i64.reinterpret/f64
+    (call $~lib/math/JSMath.random)
+   )
+  )
+  (set_global $~argc
+   (i32.const 0)
+  )
+  (drop
+   (call $~lib/array/Array<f32>#sort|trampoline
+    (get_global $std/array/f32ArrayTyped)
    )
   )
   (if
-   (i32.ne
-    (i32.load offset=4
-     (get_global $std/array/newArr)
+   (i32.eqz
+    (call $std/array/isArraysEqual<f32>
+     (get_global $std/array/f32ArrayTyped)
     )
-    (i32.const 4)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 356)
+     (i32.const 619)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $~argc
+   (i32.const 0)
+  )
+  (drop
+   (call $~lib/array/Array<f64>#sort|trampoline
+    (get_global $std/array/f64ArrayTyped)
+   )
+  )
   (if
-   (f32.ne
-    (call $~lib/array/Array<f32>#__get
-     (get_global $std/array/newArr)
+   (i32.eqz
+    (call $std/array/isArraysEqual<f64>
+     (get_global $std/array/f64ArrayTyped)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 623)
      (i32.const 0)
     )
-    (f32.convert_s/i32
-     (call $~lib/array/Array<i32>#__get
-      (get_global $std/array/arr)
-      (i32.const 0)
-     )
+    (unreachable)
+   )
+  )
+  (set_global $~argc
+   (i32.const 0)
+  )
+  (drop
+   (call $~lib/array/Array<i32>#sort|trampoline
+    (get_global $std/array/i32ArrayTyped)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $std/array/isArraysEqual<i32>
+     (get_global $std/array/i32ArrayTyped)
+     (i32.const 1192)
+     (i32.const 0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 357)
+     (i32.const 627)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
+  (set_global $~argc
    (i32.const 0)
   )
   (drop
-   (call $~lib/array/Array<i32>#map<i32>
-    (get_global $std/array/arr)
-    (i32.const 21)
+   (call $~lib/array/Array<u32>#sort|trampoline
+    (get_global $std/array/u32ArrayTyped)
    )
   )
   (if
-   (i32.ne
-    (get_global $std/array/i)
-    (i32.const 6)
+   (i32.eqz
+    (call $std/array/isArraysEqual<i32>
+     (get_global $std/array/u32ArrayTyped)
+     (i32.const 1280)
+     (i32.const 0)
+    )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 366)
+     (i32.const 631)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/reversed64
+   (call $std/array/createReverseOrderedArray
+    (i32.const 64)
+   )
+  )
+  (set_global $std/array/reversed128
+   (call $std/array/createReverseOrderedArray
+    (i32.const 128)
+   )
+  )
+  (set_global $std/array/reversed1024
+   (call $std/array/createReverseOrderedArray
+    (i32.const 1024)
+   )
+  )
+  (set_global $std/array/reversed10000
+   (call $std/array/createReverseOrderedArray
+    (i32.const 10000)
+   )
+  )
+  (set_global $std/array/randomized512
+   (call $std/array/createRandomOrderedArray
+    (i32.const 512)
+   )
+  )
+  (call $std/array/assertSortedDefault<i32>
+   (get_global $std/array/reversed0)
+  )
+  (call $std/array/assertSortedDefault<i32>
+   (get_global $std/array/reversed1)
+  )
   (if
-   (i32.ne
-    (i32.load offset=4
-     (get_global $std/array/arr)
+   (i32.eqz
+    (call $std/array/isArraysEqual<i32>
+     (get_global $std/array/reversed1)
+     (i32.const 1456)
+     (i32.const 0)
     )
-    (i32.const 8)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 367)
+     (i32.const 651)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (i32.const 0)
-  )
-  (drop
-   (call $~lib/array/Array<i32>#map<i32>
-    (get_global $std/array/arr)
-    (i32.const 22)
-   )
+  (call $std/array/assertSortedDefault<i32>
+   (get_global $std/array/reversed2)
   )
   (if
-   (i32.ne
-    (get_global $std/array/i)
-    (i32.const 406)
+   (i32.eqz
+    (call $std/array/isArraysEqual<i32>
+     (get_global $std/array/reversed2)
+     (i32.const 1480)
+     (i32.const 0)
+    )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 374)
+     (i32.const 654)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (drop
-   (call $~lib/array/Array<i32>#pop
-    (get_global $std/array/arr)
-   )
-  )
-  (drop
-   (call $~lib/array/Array<i32>#pop
-    (get_global $std/array/arr)
-   )
-  )
-  (drop
-   (call $~lib/array/Array<i32>#pop
-    (get_global $std/array/arr)
-   )
-  )
-  (drop
-   (call $~lib/array/Array<i32>#pop
-    (get_global $std/array/arr)
-   )
-  )
-  (set_global $std/array/i
-   (i32.const 0)
-  )
-  (drop
-   (call $~lib/array/Array<i32>#map<i32>
-    (get_global $std/array/arr)
-    (i32.const 23)
-   )
+  (call $std/array/assertSortedDefault<i32>
+   (get_global $std/array/reversed4)
   )
   (if
-   (i32.ne
-    (get_global $std/array/i)
-    (i32.const 1)
+   (i32.eqz
+    (call $std/array/isArraysEqual<i32>
+     (get_global $std/array/reversed4)
+     (get_global $std/array/expected4)
+     (i32.const 0)
+    )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 389)
+     (i32.const 657)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (call $std/array/assertSortedDefault<i32>
+   (get_global $std/array/reversed64)
+  )
   (if
-   (i32.ne
-    (i32.load offset=4
-     (get_global $std/array/arr)
+   (i32.eqz
+    (call $std/array/isArraysEqual<i32>
+     (get_global $std/array/reversed64)
+     (get_global $std/array/expected4)
+     (i32.const 4)
     )
-    (i32.const 2)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 390)
+     (i32.const 660)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (drop
-   (call $~lib/array/Array<i32>#push
-    (get_global $std/array/arr)
-    (i32.const 2)
-   )
-  )
-  (drop
-   (call $~lib/array/Array<i32>#push
-    (get_global $std/array/arr)
-    (i32.const 3)
-   )
-  )
-  (set_global $std/array/filteredArr
-   (call $~lib/array/Array<i32>#filter
-    (get_global $std/array/arr)
-    (i32.const 24)
-   )
+  (call $std/array/assertSortedDefault<i32>
+   (get_global $std/array/reversed128)
   )
   (if
-   (i32.ne
-    (i32.load offset=4
-     (get_global $std/array/filteredArr)
+   (i32.eqz
+    (call $std/array/isArraysEqual<i32>
+     (get_global $std/array/reversed128)
+     (get_global $std/array/expected4)
+     (i32.const 4)
     )
-    (i32.const 2)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 398)
+     (i32.const 663)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (i32.const 0)
-  )
-  (drop
-   (call $~lib/array/Array<i32>#filter
-    (get_global $std/array/arr)
-    (i32.const 25)
-   )
+  (call $std/array/assertSortedDefault<i32>
+   (get_global $std/array/reversed1024)
   )
   (if
-   (i32.ne
-    (get_global $std/array/i)
-    (i32.const 6)
+   (i32.eqz
+    (call $std/array/isArraysEqual<i32>
+     (get_global $std/array/reversed1024)
+     (get_global $std/array/expected4)
+     (i32.const 4)
+    )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 407)
+     (i32.const 666)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (call $std/array/assertSortedDefault<i32>
+   (get_global $std/array/reversed10000)
+  )
   (if
-   (i32.ne
-    (i32.load offset=4
-     (get_global $std/array/arr)
+   (i32.eqz
+    (call $std/array/isArraysEqual<i32>
+     (get_global $std/array/reversed10000)
+     (get_global $std/array/expected4)
+     (i32.const 4)
     )
-    (i32.const 8)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 408)
+     (i32.const 669)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (i32.const 0)
+  (call $std/array/assertSortedDefault<i32>
+   (get_global $std/array/randomized512)
   )
-  (drop
-   (call $~lib/array/Array<i32>#filter
-    (get_global $std/array/arr)
-    (i32.const 26)
+  (set_global $std/array/randomized64
+   (call $std/array/createRandomOrderedArray
+    (i32.const 64)
+   )
+  )
+  (set_global $std/array/randomized257
+   (call $std/array/createRandomOrderedArray
+    (i32.const 257)
    )
   )
+  (call $std/array/assertSorted<i32>
+   (get_global $std/array/randomized64)
+   (i32.const 1488)
+  )
+  (call $std/array/assertSorted<i32>
+   (get_global $std/array/randomized64)
+   (i32.const 1496)
+  )
+  (call $std/array/assertSorted<i32>
+   (get_global $std/array/randomized257)
+   (i32.const 1504)
+  )
+  (call $std/array/assertSorted<i32>
+   (get_global $std/array/randomized257)
+   (i32.const 1512)
+  )
+  (set_global $std/array/reversedNested512
+   (call $std/array/createReverseOrderedNestedArray)
+  )
+  (call $std/array/assertSorted<i32>
+   (get_global $std/array/reversedNested512)
+   (i32.const 1520)
+  )
+  (set_global $std/array/reversedElements512
+   (call $std/array/createReverseOrderedElementsArray)
+  )
+  (call $std/array/assertSorted<i32>
+   (get_global $std/array/reversedElements512)
+   (i32.const 1528)
+  )
+  (call $std/array/assertSorted<i32>
+   (get_global $std/array/randomStringsActual)
+   (i32.const 1720)
+  )
   (if
-   (i32.ne
-    (get_global $std/array/i)
-    (i32.const 406)
+   (i32.eqz
+    (call $std/array/isArraysEqual<String>
+     (get_global $std/array/randomStringsActual)
+     (get_global $std/array/randomStringsExpected)
+    )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 415)
+     (i32.const 698)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (drop
-   (call $~lib/array/Array<i32>#pop
-    (get_global $std/array/arr)
-   )
+  (set_global $std/array/randomStrings400
+   (call $std/array/createRandomStringArray)
   )
-  (drop
-   (call $~lib/array/Array<i32>#pop
-    (get_global $std/array/arr)
+  (call $std/array/assertSorted<i32>
+   (get_global $std/array/randomStrings400)
+   (i32.const 1832)
+  )
+  (block $break|0
+   (i32.store
+    (tee_local $0
+     (call $~lib/memory/memory.allocate
+      (i32.const 8)
+     )
+    )
+    (get_local $2)
+   )
+   (i32.store offset=4
+    (get_local $0)
+    (i32.const 0)
+   )
+   (i32.store offset=4
+    (get_local $0)
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (i32.load offset=4
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
+    )
+    (drop
+     (call $~lib/array/Array<i32>#push
+      (get_global $std/array/stableActual)
+      (call $std/array/Proxy<i32>#constructor
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+     )
+    )
+    (set_local $1
+     (get_local $0)
+    )
+    (i32.store
+     (tee_local $0
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (i32.load
+      (get_local $1)
+     )
+    )
+    (i32.store offset=4
+     (get_local $0)
+     (i32.load offset=4
+      (get_local $1)
+     )
+    )
+    (i32.store offset=4
+     (get_local $0)
+     (i32.add
+      (i32.load offset=4
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
    )
   )
   (drop
-   (call $~lib/array/Array<i32>#pop
-    (get_global $std/array/arr)
+   (call $~lib/array/Array<i32>#sort
+    (get_global $std/array/stableActual)
+    (i32.const 1856)
    )
   )
-  (drop
-   (call $~lib/array/Array<i32>#pop
-    (get_global $std/array/arr)
+  (block $break|1
+   (i32.store
+    (tee_local $0
+     (call $~lib/memory/memory.allocate
+      (i32.const 8)
+     )
+    )
+    (get_local $2)
    )
-  )
-  (set_global $std/array/i
-   (i32.const 0)
-  )
-  (drop
-   (call $~lib/array/Array<i32>#filter
-    (get_global $std/array/arr)
-    (i32.const 27)
+   (i32.store offset=4
+    (get_local $0)
+    (i32.const 0)
    )
-  )
-  (if
-   (i32.ne
-    (get_global $std/array/i)
+   (i32.store offset=4
+    (get_local $0)
     (i32.const 1)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 104)
-     (i32.const 430)
-     (i32.const 0)
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.ge_s
+      (i32.load offset=4
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
     )
-    (unreachable)
-   )
-  )
-  (if
-   (i32.ne
-    (i32.load offset=4
-     (get_global $std/array/arr)
+    (i32.store
+     (tee_local $2
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (get_local $0)
     )
-    (i32.const 2)
-   )
-   (block
-    (call $~lib/env/abort
+    (i32.store offset=4
+     (get_local $2)
      (i32.const 0)
-     (i32.const 104)
-     (i32.const 431)
+    )
+    (i32.store offset=4
+     (get_local $2)
+     (call $~lib/array/Array<i32>#__get
+      (get_global $std/array/stableActual)
+      (i32.sub
+       (i32.load offset=4
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store offset=4
+     (get_local $3)
      (i32.const 0)
     )
-    (unreachable)
-   )
-  )
-  (drop
-   (call $~lib/array/Array<i32>#push
-    (get_global $std/array/arr)
-    (i32.const 2)
-   )
-  )
-  (drop
-   (call $~lib/array/Array<i32>#push
-    (get_global $std/array/arr)
-    (i32.const 3)
-   )
-  )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#reduce<i32>
-    (get_global $std/array/arr)
-    (i32.const 28)
-    (i32.const 0)
+    (i32.store offset=4
+     (get_local $3)
+     (call $~lib/array/Array<i32>#__get
+      (get_global $std/array/stableActual)
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (tee_local $1
+       (i32.lt_s
+        (i32.and
+         (i32.load
+          (i32.load offset=4
+           (get_local $2)
+          )
+         )
+         (i32.const 3)
+        )
+        (i32.and
+         (i32.load
+          (i32.load offset=4
+           (get_local $3)
+          )
+         )
+         (i32.const 3)
+        )
+       )
+      )
+     )
+     (if
+      (tee_local $1
+       (i32.eq
+        (i32.and
+         (i32.load
+          (i32.load offset=4
+           (get_local $2)
+          )
+         )
+         (i32.const 3)
+        )
+        (i32.and
+         (i32.load
+          (i32.load offset=4
+           (get_local $3)
+          )
+         )
+         (i32.const 3)
+        )
+       )
+      )
+      (set_local $1
+       (i32.lt_s
+        (i32.load
+         (i32.load offset=4
+          (get_local $2)
+         )
+        )
+        (i32.load
+         (i32.load offset=4
+          (get_local $3)
+         )
+        )
+       )
+      )
+     )
+    )
+    (if
+     (get_local $1)
+     (block
+      (set_local $1
+       (get_local $0)
+      )
+      (i32.store
+       (tee_local $0
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store offset=4
+       (get_local $0)
+       (i32.load offset=4
+        (get_local $1)
+       )
+      )
+      (i32.store offset=4
+       (get_local $0)
+       (i32.add
+        (i32.load offset=4
+         (get_local $0)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|1)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 104)
+       (i32.const 710)
+       (i32.const 2)
+      )
+      (unreachable)
+     )
+    )
    )
   )
   (if
-   (i32.ne
-    (get_global $std/array/i)
-    (i32.const 6)
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/array/Array<i32>#join
+      (i32.const 2496)
+      (i32.const 2480)
+     )
+     (i32.const 1568)
+    )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 439)
+     (i32.const 715)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#reduce<i32>
-    (get_global $std/array/arr)
-    (i32.const 29)
-    (i32.const 4)
-   )
-  )
   (if
-   (i32.ne
-    (get_global $std/array/i)
-    (i32.const 10)
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/array/Array<i32>#join
+      (i32.const 2576)
+      (i32.const 2480)
+     )
+     (i32.const 2584)
+    )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 443)
+     (i32.const 716)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/boolVal
-   (i32.and
-    (call $~lib/array/Array<i32>#reduce<i32>
-     (get_global $std/array/arr)
-     (i32.const 30)
-     (i32.const 0)
-    )
-    (i32.const 1)
-   )
-  )
   (if
-   (i32.ne
-    (get_global $std/array/boolVal)
-    (i32.const 1)
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/array/Array<i32>#join
+      (i32.const 2688)
+      (i32.const 2640)
+     )
+     (i32.const 2696)
+    )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 446)
+     (i32.const 717)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/boolVal
-   (i32.and
-    (call $~lib/array/Array<i32>#reduce<i32>
-     (get_global $std/array/arr)
-     (i32.const 31)
-     (i32.const 0)
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/array/Array<f64>#join)
+     (i32.const 19272)
     )
-    (i32.const 1)
    )
-  )
-  (if
-   (get_global $std/array/boolVal)
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 449)
+     (i32.const 718)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#reduce<i32>
-    (get_global $std/array/arr)
-    (i32.const 32)
-    (i32.const 0)
-   )
-  )
   (if
-   (i32.ne
-    (get_global $std/array/i)
-    (i32.const 6)
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/array/Array<String>#join
+      (i32.const 19376)
+      (i32.const 1568)
+     )
+     (i32.const 19384)
+    )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 457)
+     (i32.const 719)
      (i32.const 0)
     )
     (unreachable)
    )
   )
   (if
-   (i32.ne
-    (i32.load offset=4
-     (get_global $std/array/arr)
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/array/Array<i32>#toString)
+     (i32.const 19440)
     )
-    (i32.const 8)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 458)
+     (i32.const 720)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#reduce<i32>
-    (get_global $std/array/arr)
-    (i32.const 33)
-    (i32.const 0)
+  (set_global $std/array/concatenated
+   (call $~lib/array/Array<i32>#concat
+    (i32.const 19472)
+    (i32.const 19496)
    )
   )
   (if
-   (i32.ne
-    (get_global $std/array/i)
-    (i32.const 10)
+   (i32.eqz
+    (call $std/array/isArraysEqual<i32>
+     (get_global $std/array/concatenated)
+     (i32.const 19536)
+     (i32.const 0)
+    )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 460)
+     (i32.const 725)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (drop
-   (call $~lib/array/Array<i32>#pop
-    (get_global $std/array/arr)
-   )
-  )
-  (drop
-   (call $~lib/array/Array<i32>#pop
-    (get_global $std/array/arr)
-   )
-  )
-  (drop
-   (call $~lib/array/Array<i32>#pop
-    (get_global $std/array/arr)
-   )
-  )
-  (drop
-   (call $~lib/array/Array<i32>#pop
-    (get_global $std/array/arr)
-   )
-  )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#reduce<i32>
-    (get_global $std/array/arr)
-    (i32.const 34)
-    (i32.const 0)
+  (set_global $std/array/concatenatedStrings
+   (call $~lib/array/Array<i32>#concat
+    (i32.const 19560)
+    (i32.const 19584)
    )
   )
   (if
-   (i32.ne
-    (get_global $std/array/i)
-    (i32.const 1)
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/array/Array<String>#join
+      (get_global $std/array/concatenatedStrings)
+      (i32.const 2480)
+     )
+     (i32.const 19592)
+    )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 473)
+     (i32.const 727)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (drop
+   (call $~lib/array/Array<i32>#fill
+    (get_global $std/array/filled)
+    (i32.const 0)
+    (i32.const 1)
+    (i32.const -1)
+   )
+  )
   (if
-   (i32.ne
-    (i32.load offset=4
-     (get_global $std/array/arr)
+   (i32.eqz
+    (call $std/array/isArraysEqual<i32>
+     (get_global $std/array/filled)
+     (i32.const 19680)
+     (i32.const 0)
     )
-    (i32.const 2)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 474)
+     (i32.const 733)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (drop
-   (call $~lib/array/Array<i32>#push
-    (get_global $std/array/arr)
-    (i32.const 2)
-   )
+  (set_global $~argc
+   (i32.const 1)
   )
   (drop
-   (call $~lib/array/Array<i32>#push
-    (get_global $std/array/arr)
-    (i32.const 3)
-   )
-  )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#reduceRight<i32>
-    (get_global $std/array/arr)
-    (i32.const 35)
-    (i32.const 0)
+   (call $~lib/array/Array<i32>#fill|trampoline
+    (get_global $std/array/filled)
+    (i32.const 9)
    )
   )
   (if
-   (i32.ne
-    (get_global $std/array/i)
-    (i32.const 6)
+   (i32.eqz
+    (call $std/array/isArraysEqual<i32>
+     (get_global $std/array/filled)
+     (i32.const 19720)
+     (i32.const 0)
+    )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 482)
+     (i32.const 735)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#reduceRight<i32>
-    (get_global $std/array/arr)
-    (i32.const 36)
-    (i32.const 4)
+  (set_global $~argc
+   (i32.const 2)
+  )
+  (drop
+   (call $~lib/array/Array<u8>#fill|trampoline
+    (get_global $std/array/filledBytes)
    )
   )
   (if
-   (i32.ne
-    (get_global $std/array/i)
-    (i32.const 10)
+   (i32.eqz
+    (call $std/array/isArraysEqual<u8>
+     (get_global $std/array/filledBytes)
+    )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 486)
+     (i32.const 739)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/boolVal
-   (i32.and
-    (call $~lib/array/Array<i32>#reduceRight<i32>
-     (get_global $std/array/arr)
-     (i32.const 37)
-     (i32.const 0)
-    )
-    (i32.const 1)
+  (set_global $std/array/filledStrings
+   (call $~lib/array/Array<i32>#constructor
+    (i32.const 3)
+   )
+  )
+  (set_global $~argc
+   (i32.const 1)
+  )
+  (drop
+   (call $~lib/array/Array<i32>#fill|trampoline
+    (get_global $std/array/filledStrings)
+    (i32.const 19776)
    )
   )
   (if
-   (i32.ne
-    (get_global $std/array/boolVal)
-    (i32.const 1)
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/array/Array<String>#join
+      (get_global $std/array/filledStrings)
+      (i32.const 2480)
+     )
+     (i32.const 19784)
+    )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 489)
+     (i32.const 743)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/boolVal
-   (i32.and
-    (call $~lib/array/Array<i32>#reduceRight<i32>
-     (get_global $std/array/arr)
-     (i32.const 38)
-     (i32.const 0)
+  (if
+   (i32.ne
+    (call $~lib/array/Array<i32>#find
+     (get_global $std/array/findable)
+     (i32.const 19840)
     )
-    (i32.const 1)
+    (i32.const 3)
    )
-  )
-  (if
-   (get_global $std/array/boolVal)
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 492)
+     (i32.const 748)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#reduceRight<i32>
-    (get_global $std/array/arr)
-    (i32.const 39)
-    (i32.const 0)
-   )
-  )
   (if
-   (i32.ne
-    (get_global $std/array/i)
-    (i32.const 6)
+   (call $~lib/array/Array<i32>#find
+    (get_global $std/array/findable)
+    (i32.const 19848)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 500)
+     (i32.const 749)
      (i32.const 0)
     )
     (unreachable)
    )
   )
   (if
-   (i32.ne
-    (i32.load offset=4
-     (get_global $std/array/arr)
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/array/Array<i32>#find
+      (get_global $std/array/findableStrings)
+      (i32.const 19928)
+     )
+     (i32.const 19856)
     )
-    (i32.const 8)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 501)
+     (i32.const 752)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#reduceRight<i32>
-    (get_global $std/array/arr)
-    (i32.const 40)
-    (i32.const 0)
-   )
-  )
   (if
-   (i32.ne
-    (get_global $std/array/i)
-    (i32.const 10)
+   (call $~lib/array/Array<i32>#find
+    (get_global $std/array/findableStrings)
+    (i32.const 19936)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 503)
+     (i32.const 753)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (drop
-   (call $~lib/array/Array<i32>#pop
-    (get_global $std/array/arr)
-   )
-  )
-  (drop
-   (call $~lib/array/Array<i32>#pop
-    (get_global $std/array/arr)
-   )
-  )
-  (drop
-   (call $~lib/array/Array<i32>#pop
-    (get_global $std/array/arr)
-   )
-  )
-  (drop
-   (call $~lib/array/Array<i32>#pop
-    (get_global $std/array/arr)
-   )
-  )
-  (set_global $std/array/i
-   (call $~lib/array/Array<i32>#reduceRight<i32>
-    (get_global $std/array/arr)
-    (i32.const 41)
-    (i32.const 0)
-   )
+  (set_global $~argc
+   (i32.const 2)
   )
   (if
-   (i32.ne
-    (get_global $std/array/i)
-    (i32.const 6)
+   (i32.eqz
+    (call $std/array/isArraysEqual<i32>
+     (call $~lib/array/Array<i32>#copyWithin|trampoline
+      (get_global $std/array/copied)
+     )
+     (i32.const 20016)
+     (i32.const 0)
+    )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 516)
+     (i32.const 758)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/array/copied
+   (i32.const 20056)
+  )
   (if
-   (i32.load offset=4
-    (get_global $std/array/arr)
+   (i32.eqz
+    (call $std/array/isArraysEqual<i32>
+     (call $~lib/array/Array<i32>#copyWithin
+      (get_global $std/array/copied)
+      (i32.const 1)
+      (i32.const 0)
+      (i32.const 3)
+     )
+     (i32.const 20096)
+     (i32.const 0)
+    )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 517)
+     (i32.const 760)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (drop
-   (call $~lib/array/Array<i32>#push
-    (get_global $std/array/arr)
-    (i32.const 0)
-   )
-  )
-  (drop
-   (call $~lib/array/Array<i32>#push
-    (get_global $std/array/arr)
-    (i32.const 1)
-   )
-  )
-  (drop
-   (call $~lib/array/Array<i32>#push
-    (get_global $std/array/arr)
-    (i32.const 2)
-   )
-  )
-  (drop
-   (call $~lib/array/Array<i32>#push
-    (get_global $std/array/arr)
-    (i32.const 3)
-   )
+  (set_global $std/array/copied
+   (i32.const 20136)
   )
-  (call $~lib/math/NativeMath.seedRandom
-   (i64.reinterpret/f64
-    (call $~lib/math/JSMath.random)
+  (if
+   (i32.eqz
+    (call $std/array/isArraysEqual<i32>
+     (call $~lib/array/Array<i32>#copyWithin
+      (get_global $std/array/copied)
+      (i32.const -2)
+      (i32.const -3)
+      (i32.const -1)
+     )
+     (i32.const 20176)
+     (i32.const 0)
+    )
    )
-  )
-  (set_global $~argc
-   (i32.const 0)
-  )
-  (drop
-   (call $~lib/array/Array<f32>#sort|trampoline
-    (get_global $std/array/f32ArrayTyped)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 762)
+     (i32.const 0)
+    )
+    (unreachable)
    )
   )
   (if
    (i32.eqz
-    (call $std/array/isArraysEqual<f32>
-     (get_global $std/array/f32ArrayTyped)
+    (call $std/array/isArraysEqual<i32>
+     (call $~lib/array/Array<Array<i32>>#flat<i32>
+      (get_global $std/array/nested)
+     )
+     (i32.const 20320)
+     (i32.const 0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 619)
+     (i32.const 767)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $~argc
-   (i32.const 0)
-  )
-  (drop
-   (call $~lib/array/Array<f64>#sort|trampoline
-    (get_global $std/array/f64ArrayTyped)
-   )
+  (set_global $std/array/flatMapped
+   (call $~lib/array/Array<i32>#flatMap<i32>)
   )
   (if
    (i32.eqz
-    (call $std/array/isArraysEqual<f64>
-     (get_global $std/array/f64ArrayTyped)
+    (call $std/array/isArraysEqual<i32>
+     (get_global $std/array/flatMapped)
+     (i32.const 20392)
+     (i32.const 0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 623)
+     (i32.const 770)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $~argc
-   (i32.const 0)
-  )
-  (drop
-   (call $~lib/array/Array<i32>#sort|trampoline
-    (get_global $std/array/i32ArrayTyped)
+  (set_global $std/array/removed
+   (call $~lib/array/Array<i32>#splice
+    (get_global $std/array/spliced)
+    (i32.const 1)
+    (i32.const 2)
    )
   )
   (if
    (i32.eqz
     (call $std/array/isArraysEqual<i32>
-     (get_global $std/array/i32ArrayTyped)
-     (i32.const 832)
+     (get_global $std/array/removed)
+     (i32.const 20456)
      (i32.const 0)
     )
    )
@@ -10580,25 +17072,17 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 627)
+     (i32.const 776)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $~argc
-   (i32.const 0)
-  )
-  (drop
-   (call $~lib/array/Array<u32>#sort|trampoline
-    (get_global $std/array/u32ArrayTyped)
-   )
-  )
   (if
    (i32.eqz
     (call $std/array/isArraysEqual<i32>
-     (get_global $std/array/u32ArrayTyped)
-     (i32.const 912)
+     (get_global $std/array/spliced)
+     (i32.const 20496)
      (i32.const 0)
     )
    )
@@ -10606,48 +17090,25 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 631)
+     (i32.const 777)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/reversed64
-   (call $std/array/createReverseOrderedArray
-    (i32.const 64)
-   )
-  )
-  (set_global $std/array/reversed128
-   (call $std/array/createReverseOrderedArray
-    (i32.const 128)
-   )
-  )
-  (set_global $std/array/reversed1024
-   (call $std/array/createReverseOrderedArray
-    (i32.const 1024)
-   )
-  )
-  (set_global $std/array/reversed10000
-   (call $std/array/createReverseOrderedArray
-    (i32.const 10000)
-   )
+  (set_global $~argc
+   (i32.const 1)
   )
-  (set_global $std/array/randomized512
-   (call $std/array/createRandomOrderedArray
-    (i32.const 512)
+  (set_global $std/array/removed
+   (call $~lib/array/Array<i32>#splice|trampoline
+    (get_global $std/array/spliced)
    )
   )
-  (call $std/array/assertSortedDefault<i32>
-   (get_global $std/array/reversed0)
-  )
-  (call $std/array/assertSortedDefault<i32>
-   (get_global $std/array/reversed1)
-  )
   (if
    (i32.eqz
     (call $std/array/isArraysEqual<i32>
-     (get_global $std/array/reversed1)
-     (i32.const 1080)
+     (get_global $std/array/removed)
+     (i32.const 20520)
      (i32.const 0)
     )
    )
@@ -10655,20 +17116,17 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 651)
+     (i32.const 779)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (call $std/array/assertSortedDefault<i32>
-   (get_global $std/array/reversed2)
-  )
   (if
    (i32.eqz
     (call $std/array/isArraysEqual<i32>
-     (get_global $std/array/reversed2)
-     (i32.const 1104)
+     (get_global $std/array/spliced)
+     (i32.const 20544)
      (i32.const 0)
     )
    )
@@ -10676,187 +17134,234 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 654)
+     (i32.const 780)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (call $std/array/assertSortedDefault<i32>
-   (get_global $std/array/reversed4)
+  (set_global $std/array/removed
+   (call $~lib/array/Array<i32>#splice
+    (get_global $std/array/spliced)
+    (i32.const 5)
+    (i32.const 1)
+   )
   )
   (if
-   (i32.eqz
-    (call $std/array/isArraysEqual<i32>
-     (get_global $std/array/reversed4)
-     (get_global $std/array/expected4)
+   (i32.load offset=4
+    (get_global $std/array/removed)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 782)
      (i32.const 0)
     )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_global $std/array/spliced)
+    )
+    (i32.const 2)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 657)
+     (i32.const 783)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (call $std/array/assertSortedDefault<i32>
-   (get_global $std/array/reversed64)
+  (set_global $~argc
+   (i32.const 1)
   )
   (if
-   (i32.eqz
-    (call $std/array/isArraysEqual<i32>
-     (get_global $std/array/reversed64)
-     (get_global $std/array/expected4)
-     (i32.const 4)
+   (i32.ne
+    (call $~lib/array/Array<String>#lastIndexOf|trampoline
+     (get_global $std/array/searchedStrings)
+     (i32.const 1536)
     )
+    (i32.const 3)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 660)
+     (i32.const 788)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (call $std/array/assertSortedDefault<i32>
-   (get_global $std/array/reversed128)
+  (if
+   (call $~lib/array/Array<String>#lastIndexOf
+    (get_global $std/array/searchedStrings)
+    (i32.const 1536)
+    (i32.const 2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 789)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $~argc
+   (i32.const 1)
   )
   (if
-   (i32.eqz
-    (call $std/array/isArraysEqual<i32>
-     (get_global $std/array/reversed128)
-     (get_global $std/array/expected4)
-     (i32.const 4)
+   (i32.ne
+    (call $~lib/array/Array<String>#lastIndexOf|trampoline
+     (get_global $std/array/searchedStrings)
+     (i32.const 0)
     )
+    (i32.const 2)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 663)
+     (i32.const 790)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (call $std/array/assertSortedDefault<i32>
-   (get_global $std/array/reversed1024)
+  (set_global $~argc
+   (i32.const 1)
   )
   (if
-   (i32.eqz
-    (call $std/array/isArraysEqual<i32>
-     (get_global $std/array/reversed1024)
-     (get_global $std/array/expected4)
-     (i32.const 4)
+   (i32.ne
+    (call $~lib/array/Array<String>#lastIndexOf|trampoline
+     (get_global $std/array/searchedStrings)
+     (i32.const 19296)
     )
+    (i32.const -1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 666)
+     (i32.const 791)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (call $std/array/assertSortedDefault<i32>
-   (get_global $std/array/reversed10000)
-  )
   (if
    (i32.eqz
-    (call $std/array/isArraysEqual<i32>
-     (get_global $std/array/reversed10000)
-     (get_global $std/array/expected4)
-     (i32.const 4)
+    (call $~lib/array/Array.isArray<Array<i32>>
+     (get_global $std/array/arr)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 669)
+     (i32.const 795)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (call $std/array/assertSortedDefault<i32>
-   (get_global $std/array/randomized512)
-  )
-  (set_global $std/array/randomized64
-   (call $std/array/createRandomOrderedArray
-    (i32.const 64)
+  (if
+   (call $~lib/array/Array.isArray<Array<i32>>
+    (i32.const 0)
    )
-  )
-  (set_global $std/array/randomized257
-   (call $std/array/createRandomOrderedArray
-    (i32.const 257)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 796)
+     (i32.const 0)
+    )
+    (unreachable)
    )
   )
-  (call $std/array/assertSorted<i32>
-   (get_global $std/array/randomized64)
-   (i32.const 47)
-  )
-  (call $std/array/assertSorted<i32>
-   (get_global $std/array/randomized64)
-   (i32.const 48)
-  )
-  (call $std/array/assertSorted<i32>
-   (get_global $std/array/randomized257)
-   (i32.const 49)
-  )
-  (call $std/array/assertSorted<i32>
-   (get_global $std/array/randomized257)
-   (i32.const 50)
-  )
-  (set_global $std/array/reversedNested512
-   (call $std/array/createReverseOrderedNestedArray)
+  (if
+   (call $~lib/array/Array.isArray<i32>)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 797)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
   )
-  (call $std/array/assertSorted<Array<i32>>
-   (get_global $std/array/reversedNested512)
-   (i32.const 51)
+  (if
+   (call $~lib/array/Array.isArray<i32>)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 798)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
   )
-  (set_global $std/array/reversedElements512
-   (call $std/array/createReverseOrderedElementsArray)
+  (set_global $std/array/copy
+   (call $~lib/array/Array.from<i32>
+    (get_global $std/array/arr)
+   )
   )
-  (call $std/array/assertSorted<Array<i32>>
-   (get_global $std/array/reversedElements512)
-   (i32.const 52)
+  (if
+   (tee_local $1
+    (i32.ne
+     (get_global $std/array/copy)
+     (get_global $std/array/arr)
+    )
+   )
+   (set_local $1
+    (call $std/array/isArraysEqual<i32>
+     (get_global $std/array/copy)
+     (get_global $std/array/arr)
+     (i32.const 0)
+    )
+   )
   )
-  (call $std/array/assertSorted<Array<i32>>
-   (get_global $std/array/randomStringsActual)
-   (i32.const 53)
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 104)
+     (i32.const 801)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
   )
   (if
    (i32.eqz
-    (call $std/array/isArraysEqual<String>
-     (get_global $std/array/randomStringsActual)
-     (get_global $std/array/randomStringsExpected)
+    (call $std/array/isArraysEqual<i32>
+     (call $~lib/array/Array.of<i32>)
+     (i32.const 20664)
+     (i32.const 0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 104)
-     (i32.const 698)
+     (i32.const 802)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/array/randomStrings400
-   (call $std/array/createRandomStringArray)
-  )
-  (call $std/array/assertSorted<Array<i32>>
-   (get_global $std/array/randomStrings400)
-   (i32.const 54)
-  )
  )
 )
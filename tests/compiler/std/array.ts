@@ -699,3 +699,104 @@ assert(isArraysEqual<string>(randomStringsActual, randomStringsExpected));
 
 var randomStrings400 = createRandomStringArray(400);
 assertSorted<string>(randomStrings400, (a: string, b: string): i32 => <i32>(a > b) - <i32>(a < b));
+
+// Test stable sorting
+
+var stableActual: Proxy<i32>[] = [];
+for (let i = 0; i < 100; ++i) stableActual.push(new Proxy<i32>(i));
+stableActual.sort((a: Proxy<i32>, b: Proxy<i32>): i32 => (a.x & 3) - (b.x & 3));
+for (let i = 1; i < 100; ++i) {
+  let a = stableActual[i - 1], b = stableActual[i];
+  assert((a.x & 3) < (b.x & 3) || ((a.x & 3) == (b.x & 3) && a.x < b.x));
+}
+
+// Array#join/toString /////////////////////////////////////////////////////////////////////////////
+
+assert((<i32[]>[]).join() == "");
+assert((<i32[]>[1, -2, 3]).join() == "1,-2,3");
+assert((<i32[]>[1, 2, 3]).join(" - ") == "1 - 2 - 3");
+assert((<f64[]>[0.5, -1.0, NaN]).join("|") == "0.5|-1|NaN");
+assert((<string[]>["a", null, "c"]).join("") == "ac");
+assert((<i32[]>[1, 2]).toString() == "1,2");
+
+// Array#concat ////////////////////////////////////////////////////////////////////////////////////
+
+var concatenated = (<i32[]>[1, 2]).concat(<i32[]>[3]);
+assert(isArraysEqual<i32>(concatenated, <i32[]>[1, 2, 3]));
+var concatenatedStrings = (<string[]>["a"]).concat(<string[]>["b", "c"]);
+assert(concatenatedStrings.join() == "a,b,c");
+
+// Array#fill //////////////////////////////////////////////////////////////////////////////////////
+
+var filled: i32[] = [1, 2, 3, 4, 5];
+filled.fill(0, 1, -1);
+assert(isArraysEqual<i32>(filled, <i32[]>[1, 0, 0, 0, 5]));
+filled.fill(9);
+assert(isArraysEqual<i32>(filled, <i32[]>[9, 9, 9, 9, 9]));
+
+var filledBytes: u8[] = [1, 2, 3, 4];
+filledBytes.fill(7, 2);
+assert(isArraysEqual<u8>(filledBytes, <u8[]>[1, 2, 7, 7]));
+
+var filledStrings = new Array<string>(3);
+filledStrings.fill("x");
+assert(filledStrings.join() == "x,x,x");
+
+// Array#find //////////////////////////////////////////////////////////////////////////////////////
+
+var findable: i32[] = [1, 2, 3, 4];
+assert(findable.find((value: i32, index: i32, array: Array<i32>): bool => value > 2) == 3);
+assert(findable.find((value: i32, index: i32, array: Array<i32>): bool => value > 4) == 0);
+
+var findableStrings: string[] = ["a", "bb", "ccc"];
+assert(findableStrings.find((value: string, index: i32, array: Array<string>): bool => value.length == 2) == "bb");
+assert(findableStrings.find((value: string, index: i32, array: Array<string>): bool => value.length == 4) === null);
+
+// Array#copyWithin ////////////////////////////////////////////////////////////////////////////////
+
+var copied: i32[] = [1, 2, 3, 4, 5];
+assert(isArraysEqual<i32>(copied.copyWithin(0, 3), <i32[]>[4, 5, 3, 4, 5]));
+copied = [1, 2, 3, 4, 5];
+assert(isArraysEqual<i32>(copied.copyWithin(1, 0, 3), <i32[]>[1, 1, 2, 3, 5]));
+copied = [1, 2, 3, 4, 5];
+assert(isArraysEqual<i32>(copied.copyWithin(-2, -3, -1), <i32[]>[1, 2, 3, 3, 4]));
+
+// Array#flat/flatMap //////////////////////////////////////////////////////////////////////////////
+
+var nested: i32[][] = [[1, 2], [], [3]];
+assert(isArraysEqual<i32>(nested.flat<i32>(), <i32[]>[1, 2, 3]));
+
+var flatMapped = (<i32[]>[1, 2]).flatMap<i32>((value: i32, index: i32, array: Array<i32>): i32[] => [value, value * 10]);
+assert(isArraysEqual<i32>(flatMapped, <i32[]>[1, 10, 2, 20]));
+
+// Array#splice ////////////////////////////////////////////////////////////////////////////////////
+
+var spliced: i32[] = [1, 2, 3, 4, 5];
+var removed = spliced.splice(1, 2);
+assert(isArraysEqual<i32>(removed, <i32[]>[2, 3]));
+assert(isArraysEqual<i32>(spliced, <i32[]>[1, 4, 5]));
+removed = spliced.splice(-1);
+assert(isArraysEqual<i32>(removed, <i32[]>[5]));
+assert(isArraysEqual<i32>(spliced, <i32[]>[1, 4]));
+removed = spliced.splice(5, 1);
+assert(removed.length == 0);
+assert(spliced.length == 2);
+
+// Array#lastIndexOf ///////////////////////////////////////////////////////////////////////////////
+
+var searchedStrings: string[] = ["a", "b", null, "a"];
+assert(searchedStrings.lastIndexOf("a") == 3);
+assert(searchedStrings.lastIndexOf("a", 2) == 0);
+assert(searchedStrings.lastIndexOf(null) == 2);
+assert(searchedStrings.lastIndexOf("c") == -1);
+
+// Array.isArray/from/of ///////////////////////////////////////////////////////////////////////////
+
+assert(Array.isArray<i32[]>(arr));
+assert(!Array.isArray<i32[]>(null));
+assert(!Array.isArray<i32>(1));
+assert(!Array.isArray<string>("a"));
+
+var copy = Array.from<i32>(arr);
+assert(copy !== arr && isArraysEqual<i32>(copy, arr));
+assert(isArraysEqual<i32>(Array.of<i32>(1, 2, 3), <i32[]>[1, 2, 3]));
@@ -0,0 +1,2649 @@
+(module
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $ii (func (param i32) (result i32)))
+ (type $iiiii (func (param i32 i32 i32 i32) (result i32)))
+ (type $II (func (param i64) (result i64)))
+ (type $v (func))
+ (type $FUNCSIG$vii (func (param i32 i32)))
+ (type $FUNCSIG$i (func (result i32)))
+ (type $FUNCSIG$iii (func (param i32 i32) (result i32)))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
+ (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $std/dataview/buffer (mut i32) (i32.const 0))
+ (global $~argc (mut i32) (i32.const 0))
+ (global $std/dataview/view (mut i32) (i32.const 0))
+ (global $std/dataview/sub (mut i32) (i32.const 0))
+ (memory $0 1)
+ (data (i32.const 8) "\13\00\00\00~\00l\00i\00b\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s")
+ (data (i32.const 56) "\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s")
+ (data (i32.const 120) "\10\00\00\00~\00l\00i\00b\00/\00d\00a\00t\00a\00v\00i\00e\00w\00.\00t\00s")
+ (data (i32.const 160) "\0f\00\00\00s\00t\00d\00/\00d\00a\00t\00a\00v\00i\00e\00w\00.\00t\00s")
+ (data (i32.const 200) "\11\00\00\00~\00l\00i\00b\00/\00p\00o\00l\00y\00f\00i\00l\00l\00s\00.\00t\00s")
+ (export "memory" (memory $0))
+ (start $start)
+ (func $~lib/internal/arraybuffer/computeSize (; 1 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.shl
+   (i32.const 1)
+   (i32.sub
+    (i32.const 32)
+    (i32.clz
+     (i32.add
+      (get_local $0)
+      (i32.const 7)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/allocator/arena/__memory_allocate (; 2 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 1073741824)
+   )
+   (unreachable)
+  )
+  (if
+   (i32.gt_u
+    (tee_local $2
+     (i32.and
+      (i32.add
+       (i32.add
+        (tee_local $1
+         (get_global $~lib/allocator/arena/offset)
+        )
+        (select
+         (get_local $0)
+         (i32.const 1)
+         (i32.gt_u
+          (get_local $0)
+          (i32.const 1)
+         )
+        )
+       )
+       (i32.const 7)
+      )
+      (i32.const -8)
+     )
+    )
+    (i32.shl
+     (tee_local $3
+      (current_memory)
+     )
+     (i32.const 16)
+    )
+   )
+   (if
+    (i32.lt_s
+     (grow_memory
+      (select
+       (get_local $3)
+       (tee_local $0
+        (i32.shr_u
+         (i32.and
+          (i32.add
+           (i32.sub
+            (get_local $2)
+            (get_local $1)
+           )
+           (i32.const 65535)
+          )
+          (i32.const -65536)
+         )
+         (i32.const 16)
+        )
+       )
+       (i32.gt_s
+        (get_local $3)
+        (get_local $0)
+       )
+      )
+     )
+     (i32.const 0)
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_local $2)
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/arraybuffer/allocateUnsafe (; 3 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 1073741816)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 23)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $1
+    (call $~lib/allocator/arena/__memory_allocate
+     (call $~lib/internal/arraybuffer/computeSize
+      (get_local $0)
+     )
+    )
+   )
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/memory/memset (; 4 ;) (; has Stack IR ;) (type $FUNCSIG$vii) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (return)
+  )
+  (i32.store8
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $1)
+    )
+    (i32.const 1)
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.le_u
+    (get_local $1)
+    (i32.const 2)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 1)
+   )
+   (i32.const 0)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 2)
+   )
+   (i32.const 0)
+  )
+  (i32.store8
+   (i32.sub
+    (tee_local $2
+     (i32.add
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+    (i32.const 2)
+   )
+   (i32.const 0)
+  )
+  (i32.store8
+   (i32.sub
+    (get_local $2)
+    (i32.const 3)
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.le_u
+    (get_local $1)
+    (i32.const 6)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 3)
+   )
+   (i32.const 0)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $1)
+    )
+    (i32.const 4)
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.le_u
+    (get_local $1)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (i32.store
+   (tee_local $0
+    (i32.add
+     (get_local $0)
+     (tee_local $2
+      (i32.and
+       (i32.sub
+        (i32.const 0)
+        (get_local $0)
+       )
+       (i32.const 3)
+      )
+     )
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (tee_local $1
+      (i32.and
+       (i32.sub
+        (get_local $1)
+        (get_local $2)
+       )
+       (i32.const -4)
+      )
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.le_u
+    (get_local $1)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 4)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 8)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $2
+     (i32.add
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+    (i32.const 12)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (get_local $2)
+    (i32.const 8)
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.le_u
+    (get_local $1)
+    (i32.const 24)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 12)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 16)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 20)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 24)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $2
+     (i32.add
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+    (i32.const 28)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (get_local $2)
+    (i32.const 24)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (get_local $2)
+    (i32.const 20)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (get_local $2)
+    (i32.const 16)
+   )
+   (i32.const 0)
+  )
+  (set_local $0
+   (i32.add
+    (get_local $0)
+    (tee_local $2
+     (i32.add
+      (i32.and
+       (get_local $0)
+       (i32.const 4)
+      )
+      (i32.const 24)
+     )
+    )
+   )
+  )
+  (set_local $1
+   (i32.sub
+    (get_local $1)
+    (get_local $2)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.ge_u
+     (get_local $1)
+     (i32.const 32)
+    )
+    (block
+     (i64.store
+      (get_local $0)
+      (i64.const 0)
+     )
+     (i64.store
+      (i32.add
+       (get_local $0)
+       (i32.const 8)
+      )
+      (i64.const 0)
+     )
+     (i64.store
+      (i32.add
+       (get_local $0)
+       (i32.const 16)
+      )
+      (i64.const 0)
+     )
+     (i64.store
+      (i32.add
+       (get_local $0)
+       (i32.const 24)
+      )
+      (i64.const 0)
+     )
+     (set_local $1
+      (i32.sub
+       (get_local $1)
+       (i32.const 32)
+      )
+     )
+     (set_local $0
+      (i32.add
+       (get_local $0)
+       (i32.const 32)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+ )
+ (func $~lib/arraybuffer/ArrayBuffer#constructor (; 5 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (local $0 i32)
+  (call $~lib/internal/memory/memset
+   (i32.add
+    (tee_local $0
+     (call $~lib/internal/arraybuffer/allocateUnsafe
+      (i32.const 16)
+     )
+    )
+    (i32.const 8)
+   )
+   (i32.const 16)
+  )
+  (get_local $0)
+ )
+ (func $~lib/memory/memory.allocate (; 6 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (call $~lib/allocator/arena/__memory_allocate
+   (i32.const 12)
+  )
+ )
+ (func $~lib/dataview/DataView#constructor (; 7 ;) (; has Stack IR ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $5
+   (i32.load
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $3)
+    (i32.const -2147483648)
+   )
+   (set_local $3
+    (i32.sub
+     (get_local $5)
+     (get_local $2)
+    )
+   )
+  )
+  (if
+   (i32.gt_u
+    (get_local $2)
+    (get_local $5)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 15)
+     (i32.const 45)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $4
+     (i32.gt_u
+      (get_local $3)
+      (i32.const 1073741816)
+     )
+    )
+   )
+   (set_local $4
+    (i32.gt_s
+     (i32.add
+      (get_local $2)
+      (get_local $3)
+     )
+     (get_local $5)
+    )
+   )
+  )
+  (if
+   (get_local $4)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 17)
+     (i32.const 6)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (i32.store
+     (tee_local $4
+      (call $~lib/memory/memory.allocate)
+     )
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $4)
+     (i32.const 0)
+    )
+    (i32.store offset=8
+     (get_local $4)
+     (i32.const 0)
+    )
+    (set_local $0
+     (get_local $4)
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $3)
+  )
+  (get_local $0)
+ )
+ (func $~lib/dataview/DataView#constructor|trampoline (; 8 ;) (; has Stack IR ;) (type $FUNCSIG$iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (block $2of2
+   (block $1of2
+    (block $0of2
+     (block $outOfRange
+      (br_table $0of2 $1of2 $2of2 $outOfRange
+       (i32.sub
+        (get_global $~argc)
+        (i32.const 1)
+       )
+      )
+     )
+     (unreachable)
+    )
+    (set_local $1
+     (i32.const 0)
+    )
+   )
+   (set_local $2
+    (i32.const -2147483648)
+   )
+  )
+  (call $~lib/dataview/DataView#constructor
+   (i32.const 0)
+   (get_local $0)
+   (get_local $1)
+   (get_local $2)
+  )
+ )
+ (func $~lib/polyfills/bswap16<u16> (; 9 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eqz
+    (tee_local $1
+     (i32.const 1)
+    )
+   )
+   (set_local $1
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 200)
+     (i32.const 27)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (tee_local $1
+    (i32.const 1)
+   )
+   (return
+    (i32.or
+     (i32.or
+      (i32.and
+       (i32.shl
+        (get_local $0)
+        (i32.const 8)
+       )
+       (i32.const 65280)
+      )
+      (i32.shr_u
+       (i32.and
+        (get_local $0)
+        (i32.const 65535)
+       )
+       (i32.const 8)
+      )
+     )
+     (i32.and
+      (get_local $0)
+      (i32.const -65536)
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/polyfills/bswap<u16> (; 10 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eqz
+    (tee_local $1
+     (i32.const 1)
+    )
+   )
+   (set_local $1
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (set_local $1
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 200)
+     (i32.const 2)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/polyfills/bswap16<u16>
+   (get_local $0)
+  )
+ )
+ (func $~lib/polyfills/bswap16<i16> (; 11 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eqz
+    (tee_local $1
+     (i32.const 1)
+    )
+   )
+   (set_local $1
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 200)
+     (i32.const 27)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (tee_local $1
+    (i32.const 1)
+   )
+   (return
+    (i32.or
+     (i32.or
+      (i32.and
+       (i32.shl
+        (get_local $0)
+        (i32.const 8)
+       )
+       (i32.const 65280)
+      )
+      (i32.and
+       (i32.shr_s
+        (i32.shl
+         (get_local $0)
+         (i32.const 16)
+        )
+        (i32.const 24)
+       )
+       (i32.const 255)
+      )
+     )
+     (i32.and
+      (get_local $0)
+      (i32.const -65536)
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/polyfills/bswap<i16> (; 12 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eqz
+    (tee_local $1
+     (i32.const 1)
+    )
+   )
+   (set_local $1
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (set_local $1
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 200)
+     (i32.const 2)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/polyfills/bswap16<i16>
+   (get_local $0)
+  )
+ )
+ (func $~lib/polyfills/bswap<i32> (; 13 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eqz
+    (tee_local $1
+     (i32.const 1)
+    )
+   )
+   (set_local $1
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 200)
+     (i32.const 2)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.or
+   (i32.rotl
+    (i32.and
+     (get_local $0)
+     (i32.const -16711936)
+    )
+    (i32.const 8)
+   )
+   (i32.rotr
+    (i32.and
+     (get_local $0)
+     (i32.const 16711935)
+    )
+    (i32.const 8)
+   )
+  )
+ )
+ (func $~lib/polyfills/bswap<i64> (; 14 ;) (; has Stack IR ;) (type $II) (param $0 i64) (result i64)
+  (i64.rotr
+   (i64.or
+    (i64.and
+     (i64.shr_u
+      (tee_local $0
+       (i64.or
+        (i64.and
+         (i64.shr_u
+          (get_local $0)
+          (i64.const 8)
+         )
+         (i64.const 71777214294589695)
+        )
+        (i64.shl
+         (i64.and
+          (get_local $0)
+          (i64.const 71777214294589695)
+         )
+         (i64.const 8)
+        )
+       )
+      )
+      (i64.const 16)
+     )
+     (i64.const 281470681808895)
+    )
+    (i64.shl
+     (i64.and
+      (get_local $0)
+      (i64.const 281470681808895)
+     )
+     (i64.const 16)
+    )
+   )
+   (i64.const 32)
+  )
+ )
+ (func $start (; 15 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (block $folding-inner0
+   (set_global $~lib/allocator/arena/startOffset
+    (i32.const 240)
+   )
+   (set_global $~lib/allocator/arena/offset
+    (get_global $~lib/allocator/arena/startOffset)
+   )
+   (set_global $std/dataview/buffer
+    (call $~lib/arraybuffer/ArrayBuffer#constructor)
+   )
+   (set_global $~argc
+    (i32.const 1)
+   )
+   (set_global $std/dataview/view
+    (call $~lib/dataview/DataView#constructor|trampoline
+     (get_global $std/dataview/buffer)
+     (i32.const 0)
+    )
+   )
+   (if
+    (i32.ne
+     (i32.load
+      (get_global $std/dataview/view)
+     )
+     (get_global $std/dataview/buffer)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 6)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.load offset=4
+     (get_global $std/dataview/view)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 7)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.ne
+     (i32.load offset=8
+      (get_global $std/dataview/view)
+     )
+     (i32.const 16)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 8)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $0
+     (i32.gt_s
+      (i32.const 1)
+      (i32.load offset=8
+       (tee_local $1
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (i32.store8 offset=8
+    (i32.add
+     (i32.load
+      (get_local $1)
+     )
+     (i32.load offset=4
+      (get_local $1)
+     )
+    )
+    (i32.const -2)
+   )
+   (if
+    (tee_local $0
+     (i32.gt_s
+      (i32.const 1)
+      (i32.load offset=8
+       (tee_local $1
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i32.ne
+     (i32.load8_s offset=8
+      (i32.add
+       (i32.load
+        (get_local $1)
+       )
+       (i32.load offset=4
+        (get_local $1)
+       )
+      )
+     )
+     (i32.const -2)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 13)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 1)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i32.ne
+     (i32.load8_u offset=8
+      (i32.add
+       (i32.load
+        (get_local $0)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+     )
+     (i32.const 254)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 14)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $0
+     (i32.gt_s
+      (i32.const 2)
+      (i32.load offset=8
+       (tee_local $1
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (i32.store8 offset=8
+    (i32.add
+     (i32.add
+      (i32.load
+       (get_local $1)
+      )
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+     (i32.const 1)
+    )
+    (i32.const 128)
+   )
+   (if
+    (tee_local $0
+     (i32.gt_s
+      (i32.const 2)
+      (i32.load offset=8
+       (tee_local $1
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i32.ne
+     (i32.load8_s offset=8
+      (i32.add
+       (i32.add
+        (i32.load
+         (get_local $1)
+        )
+        (i32.load offset=4
+         (get_local $1)
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (i32.const -128)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 16)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 2)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (i32.store16 offset=8
+    (tee_local $0
+     (i32.add
+      (i32.load
+       (get_local $0)
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+    )
+    (tee_local $1
+     (call $~lib/polyfills/bswap<u16>
+      (i32.const 4660)
+     )
+    )
+   )
+   (if
+    (i32.ne
+     (i32.load8_u offset=8
+      (get_global $std/dataview/buffer)
+     )
+     (i32.const 18)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 21)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.ne
+     (i32.load8_u offset=9
+      (get_global $std/dataview/buffer)
+     )
+     (i32.const 52)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 22)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 2)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i32.ne
+     (i32.and
+      (tee_local $0
+       (call $~lib/polyfills/bswap<u16>
+        (tee_local $0
+         (i32.load16_u offset=8
+          (i32.add
+           (i32.load
+            (get_local $0)
+           )
+           (i32.load offset=4
+            (get_local $0)
+           )
+          )
+         )
+        )
+       )
+      )
+      (i32.const 65535)
+     )
+     (i32.const 4660)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 23)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 2)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i32.ne
+     (tee_local $0
+      (i32.load16_u offset=8
+       (i32.add
+        (i32.load
+         (get_local $0)
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+      )
+     )
+     (i32.const 13330)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 24)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 4)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (i32.store16 offset=8
+    (tee_local $0
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $0)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (i32.const 2)
+     )
+    )
+    (tee_local $1
+     (i32.const -2)
+    )
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 4)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i32.ne
+     (tee_local $0
+      (i32.load16_s offset=8
+       (i32.add
+        (i32.add
+         (i32.load
+          (get_local $0)
+         )
+         (i32.load offset=4
+          (get_local $0)
+         )
+        )
+        (i32.const 2)
+       )
+      )
+     )
+     (i32.const -2)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 26)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 4)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i32.ne
+     (i32.and
+      (tee_local $0
+       (call $~lib/polyfills/bswap<i16>
+        (tee_local $0
+         (i32.load16_s offset=8
+          (i32.add
+           (i32.add
+            (i32.load
+             (get_local $0)
+            )
+            (i32.load offset=4
+             (get_local $0)
+            )
+           )
+           (i32.const 2)
+          )
+         )
+        )
+       )
+      )
+      (i32.const 65535)
+     )
+     (i32.const 65279)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 27)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 8)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (i32.store offset=8
+    (tee_local $0
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $0)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (i32.const 4)
+     )
+    )
+    (tee_local $1
+     (call $~lib/polyfills/bswap<i32>
+      (i32.const 16909060)
+     )
+    )
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 5)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i32.ne
+     (i32.load8_u offset=8
+      (i32.add
+       (i32.add
+        (i32.load
+         (get_local $0)
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (i32.const 4)
+      )
+     )
+     (i32.const 1)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 32)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $0
+     (i32.gt_s
+      (i32.const 8)
+      (i32.load offset=8
+       (tee_local $1
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i32.ne
+     (i32.load8_u offset=8
+      (i32.add
+       (i32.add
+        (i32.load
+         (get_local $1)
+        )
+        (i32.load offset=4
+         (get_local $1)
+        )
+       )
+       (i32.const 7)
+      )
+     )
+     (i32.const 4)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 33)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 8)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i32.ne
+     (tee_local $0
+      (call $~lib/polyfills/bswap<i32>
+       (tee_local $0
+        (i32.load offset=8
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $0)
+           )
+           (i32.load offset=4
+            (get_local $0)
+           )
+          )
+          (i32.const 4)
+         )
+        )
+       )
+      )
+     )
+     (i32.const 16909060)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 34)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 8)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i32.ne
+     (tee_local $0
+      (i32.load offset=8
+       (i32.add
+        (i32.add
+         (i32.load
+          (get_local $0)
+         )
+         (i32.load offset=4
+          (get_local $0)
+         )
+        )
+        (i32.const 4)
+       )
+      )
+     )
+     (i32.const 67305985)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 35)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 8)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (i32.store offset=8
+    (tee_local $0
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $0)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (i32.const 4)
+     )
+    )
+    (tee_local $1
+     (i32.const -2)
+    )
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 8)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i32.ne
+     (tee_local $0
+      (i32.load offset=8
+       (i32.add
+        (i32.add
+         (i32.load
+          (get_local $0)
+         )
+         (i32.load offset=4
+          (get_local $0)
+         )
+        )
+        (i32.const 4)
+       )
+      )
+     )
+     (i32.const -2)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 37)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 8)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i32.ne
+     (tee_local $0
+      (call $~lib/polyfills/bswap<i32>
+       (tee_local $0
+        (i32.load offset=8
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $0)
+           )
+           (i32.load offset=4
+            (get_local $0)
+           )
+          )
+          (i32.const 4)
+         )
+        )
+       )
+      )
+     )
+     (i32.const -16777217)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 38)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 16)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (i64.store offset=8
+    (tee_local $0
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $0)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (i32.const 8)
+     )
+    )
+    (call $~lib/polyfills/bswap<i64>
+     (i64.const 72623859790382856)
+    )
+   )
+   (if
+    (tee_local $0
+     (i32.gt_s
+      (i32.const 9)
+      (i32.load offset=8
+       (tee_local $1
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i32.ne
+     (i32.load8_u offset=8
+      (i32.add
+       (i32.add
+        (i32.load
+         (get_local $1)
+        )
+        (i32.load offset=4
+         (get_local $1)
+        )
+       )
+       (i32.const 8)
+      )
+     )
+     (i32.const 1)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 43)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $0
+     (i32.gt_s
+      (i32.const 16)
+      (i32.load offset=8
+       (tee_local $1
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i32.ne
+     (i32.load8_u offset=8
+      (i32.add
+       (i32.add
+        (i32.load
+         (get_local $1)
+        )
+        (i32.load offset=4
+         (get_local $1)
+        )
+       )
+       (i32.const 15)
+      )
+     )
+     (i32.const 8)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 44)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $0
+     (i32.gt_s
+      (i32.const 16)
+      (i32.load offset=8
+       (tee_local $1
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i64.ne
+     (call $~lib/polyfills/bswap<i64>
+      (i64.load offset=8
+       (i32.add
+        (i32.add
+         (i32.load
+          (get_local $1)
+         )
+         (i32.load offset=4
+          (get_local $1)
+         )
+        )
+        (i32.const 8)
+       )
+      )
+     )
+     (i64.const 72623859790382856)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 45)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 16)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i64.ne
+     (i64.load offset=8
+      (i32.add
+       (i32.add
+        (i32.load
+         (get_local $0)
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (i32.const 8)
+      )
+     )
+     (i64.const 578437695752307201)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 46)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $0
+     (i32.gt_s
+      (i32.const 16)
+      (i32.load offset=8
+       (tee_local $1
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (i64.store offset=8
+    (tee_local $0
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $1)
+       )
+       (i32.load offset=4
+        (get_local $1)
+       )
+      )
+      (i32.const 8)
+     )
+    )
+    (i64.const -2)
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 16)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i64.ne
+     (i64.load offset=8
+      (i32.add
+       (i32.add
+        (i32.load
+         (get_local $0)
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (i32.const 8)
+      )
+     )
+     (i64.const -2)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 48)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $0
+     (i32.gt_s
+      (i32.const 4)
+      (i32.load offset=8
+       (tee_local $1
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (i32.store offset=8
+    (tee_local $0
+     (i32.add
+      (i32.load
+       (get_local $1)
+      )
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+    )
+    (tee_local $1
+     (call $~lib/polyfills/bswap<i32>
+      (i32.const 1069547520)
+     )
+    )
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 4)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i32.ne
+     (tee_local $0
+      (call $~lib/polyfills/bswap<i32>
+       (tee_local $1
+        (i32.load offset=8
+         (i32.add
+          (i32.load
+           (get_local $0)
+          )
+          (i32.load offset=4
+           (get_local $0)
+          )
+         )
+        )
+       )
+      )
+     )
+     (i32.const 1069547520)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 53)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $0
+     (i32.gt_s
+      (i32.const 4)
+      (i32.load offset=8
+       (tee_local $1
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (f32.ne
+     (f32.reinterpret/i32
+      (tee_local $0
+       (call $~lib/polyfills/bswap<i32>
+        (tee_local $0
+         (i32.load offset=8
+          (i32.add
+           (i32.load
+            (get_local $1)
+           )
+           (i32.load offset=4
+            (get_local $1)
+           )
+          )
+         )
+        )
+       )
+      )
+     )
+     (f32.const 1.5)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 54)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 4)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (i32.store offset=8
+    (tee_local $0
+     (i32.add
+      (i32.load
+       (get_local $0)
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+    )
+    (tee_local $1
+     (i32.const -1098907648)
+    )
+   )
+   (if
+    (tee_local $0
+     (i32.gt_s
+      (i32.const 4)
+      (i32.load offset=8
+       (tee_local $1
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (f32.ne
+     (f32.reinterpret/i32
+      (tee_local $0
+       (i32.load offset=8
+        (i32.add
+         (i32.load
+          (get_local $1)
+         )
+         (i32.load offset=4
+          (get_local $1)
+         )
+        )
+       )
+      )
+     )
+     (f32.const -0.25)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 56)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 16)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (i64.store offset=8
+    (tee_local $0
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $0)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (i32.const 8)
+     )
+    )
+    (call $~lib/polyfills/bswap<i64>
+     (i64.const 4609434218613702656)
+    )
+   )
+   (if
+    (tee_local $0
+     (i32.gt_s
+      (i32.const 16)
+      (i32.load offset=8
+       (tee_local $1
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i64.ne
+     (call $~lib/polyfills/bswap<i64>
+      (i64.load offset=8
+       (i32.add
+        (i32.add
+         (i32.load
+          (get_local $1)
+         )
+         (i32.load offset=4
+          (get_local $1)
+         )
+        )
+        (i32.const 8)
+       )
+      )
+     )
+     (i64.const 4609434218613702656)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 58)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 16)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (f64.ne
+     (f64.reinterpret/i64
+      (call $~lib/polyfills/bswap<i64>
+       (i64.load offset=8
+        (i32.add
+         (i32.add
+          (i32.load
+           (get_local $0)
+          )
+          (i32.load offset=4
+           (get_local $0)
+          )
+         )
+         (i32.const 8)
+        )
+       )
+      )
+     )
+     (f64.const 1.5)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 59)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $0
+     (i32.gt_s
+      (i32.const 16)
+      (i32.load offset=8
+       (tee_local $1
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (i64.store offset=8
+    (tee_local $0
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $1)
+       )
+       (i32.load offset=4
+        (get_local $1)
+       )
+      )
+      (i32.const 8)
+     )
+    )
+    (i64.const 4614256656552045848)
+   )
+   (if
+    (tee_local $1
+     (i32.gt_s
+      (i32.const 16)
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (f64.ne
+     (f64.reinterpret/i64
+      (i64.load offset=8
+       (i32.add
+        (i32.add
+         (i32.load
+          (get_local $0)
+         )
+         (i32.load offset=4
+          (get_local $0)
+         )
+        )
+        (i32.const 8)
+       )
+      )
+     )
+     (f64.const 3.141592653589793)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 61)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $std/dataview/sub
+    (call $~lib/dataview/DataView#constructor
+     (i32.const 0)
+     (get_global $std/dataview/buffer)
+     (i32.const 4)
+     (i32.const 4)
+    )
+   )
+   (if
+    (i32.ne
+     (i32.load offset=4
+      (get_global $std/dataview/sub)
+     )
+     (i32.const 4)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 66)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.ne
+     (i32.load offset=8
+      (get_global $std/dataview/sub)
+     )
+     (i32.const 4)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 67)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $0
+     (i32.gt_s
+      (i32.const 4)
+      (i32.load offset=8
+       (tee_local $1
+        (get_global $std/dataview/sub)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (i32.store offset=8
+    (tee_local $0
+     (i32.add
+      (i32.load
+       (get_local $1)
+      )
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+    )
+    (tee_local $1
+     (call $~lib/polyfills/bswap<i32>
+      (i32.const 42)
+     )
+    )
+   )
+   (if
+    (tee_local $0
+     (i32.gt_s
+      (i32.const 8)
+      (i32.load offset=8
+       (tee_local $1
+        (get_global $std/dataview/view)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i32.ne
+     (tee_local $0
+      (call $~lib/polyfills/bswap<i32>
+       (tee_local $1
+        (i32.load offset=8
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $1)
+           )
+           (i32.load offset=4
+            (get_local $1)
+           )
+          )
+          (i32.const 4)
+         )
+        )
+       )
+      )
+     )
+     (i32.const 42)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 69)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $~argc
+    (i32.const 2)
+   )
+   (set_global $std/dataview/sub
+    (call $~lib/dataview/DataView#constructor|trampoline
+     (get_global $std/dataview/buffer)
+     (i32.const 12)
+    )
+   )
+   (if
+    (i32.ne
+     (i32.load offset=8
+      (get_global $std/dataview/sub)
+     )
+     (i32.const 4)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 71)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (tee_local $0
+     (i32.gt_s
+      (i32.const 4)
+      (i32.load offset=8
+       (tee_local $1
+        (get_global $std/dataview/sub)
+       )
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (set_local $0
+    (call $~lib/polyfills/bswap<i32>
+     (tee_local $1
+      (i32.load offset=8
+       (i32.add
+        (i32.load
+         (get_local $1)
+        )
+        (i32.load offset=4
+         (get_local $1)
+        )
+       )
+      )
+     )
+    )
+   )
+   (if
+    (i32.gt_s
+     (i32.const 16)
+     (i32.load offset=8
+      (tee_local $1
+       (get_global $std/dataview/view)
+      )
+     )
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i32.ne
+     (get_local $0)
+     (tee_local $1
+      (call $~lib/polyfills/bswap<i32>
+       (tee_local $1
+        (i32.load offset=8
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $1)
+           )
+           (i32.load offset=4
+            (get_local $1)
+           )
+          )
+          (i32.const 12)
+         )
+        )
+       )
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 72)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.ne
+     (tee_local $0
+      (call $~lib/polyfills/bswap<i32>
+       (tee_local $1
+        (i32.load offset=8
+         (i32.add
+          (i32.add
+           (i32.load
+            (tee_local $1
+             (get_global $std/dataview/view)
+            )
+           )
+           (i32.load offset=4
+            (get_local $1)
+           )
+          )
+          (i32.const 4)
+         )
+        )
+       )
+      )
+     )
+     (i32.const 42)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 76)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.ne
+     (i32.and
+      (tee_local $0
+       (call $~lib/polyfills/bswap<u16>
+        (tee_local $1
+         (i32.load16_u offset=8
+          (i32.add
+           (i32.add
+            (i32.load
+             (tee_local $1
+              (get_global $std/dataview/view)
+             )
+            )
+            (i32.load offset=4
+             (get_local $1)
+            )
+           )
+           (i32.const 6)
+          )
+         )
+        )
+       )
+      )
+      (i32.const 65535)
+     )
+     (i32.const 42)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 160)
+      (i32.const 77)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (return)
+  )
+  (call $~lib/env/abort
+   (i32.const 0)
+   (i32.const 120)
+   (i32.const 140)
+   (i32.const 8)
+  )
+  (unreachable)
+ )
+)
@@ -0,0 +1,77 @@
+import "allocator/arena";
+
+var buffer = new ArrayBuffer(16);
+var view = new DataView(buffer);
+
+assert(view.buffer === buffer);
+assert(view.byteOffset == 0);
+assert(view.byteLength == 16);
+
+// 8-bit
+
+view.setInt8(0, -2);
+assert(view.getInt8(0) == -2);
+assert(view.getUint8(0) == 0xFE);
+view.setUint8(1, 0x80);
+assert(view.getInt8(1) == -128);
+
+// 16-bit
+
+view.setUint16(0, 0x1234);
+assert(load<u8>(changetype<usize>(buffer), 8) == 0x12);
+assert(load<u8>(changetype<usize>(buffer), 9) == 0x34);
+assert(view.getUint16(0) == 0x1234);
+assert(view.getUint16(0, true) == 0x3412);
+view.setInt16(2, -2, true);
+assert(view.getInt16(2, true) == -2);
+assert(view.getInt16(2) == -257);
+
+// 32-bit
+
+view.setInt32(4, 0x01020304);
+assert(view.getUint8(4) == 1);
+assert(view.getUint8(7) == 4);
+assert(view.getInt32(4) == 0x01020304);
+assert(view.getInt32(4, true) == 0x04030201);
+view.setUint32(4, 0xFFFFFFFE, true);
+assert(view.getUint32(4, true) == 0xFFFFFFFE);
+assert(view.getUint32(4) == 0xFEFFFFFF);
+
+// 64-bit
+
+view.setInt64(8, 0x0102030405060708);
+assert(view.getUint8(8) == 1);
+assert(view.getUint8(15) == 8);
+assert(view.getInt64(8) == 0x0102030405060708);
+assert(view.getUint64(8, true) == 0x0807060504030201);
+view.setUint64(8, 0xFFFFFFFFFFFFFFFE, true);
+assert(view.getInt64(8, true) == -2);
+
+// floats
+
+view.setFloat32(0, 1.5);
+assert(view.getUint32(0) == 0x3FC00000);
+assert(view.getFloat32(0) == 1.5);
+view.setFloat32(0, -0.25, true);
+assert(view.getFloat32(0, true) == -0.25);
+view.setFloat64(8, 1.5);
+assert(view.getUint64(8) == 0x3FF8000000000000);
+assert(view.getFloat64(8) == 1.5);
+view.setFloat64(8, Math.PI, true);
+assert(view.getFloat64(8, true) == Math.PI);
+
+// offsets
+
+var sub = new DataView(buffer, 4, 4);
+assert(sub.byteOffset == 4);
+assert(sub.byteLength == 4);
+sub.setInt32(0, 42);
+assert(view.getInt32(4) == 42);
+sub = new DataView(buffer, 12);
+assert(sub.byteLength == 4);
+assert(sub.getInt32(0) == view.getInt32(12));
+
+// unchecked
+
+assert(unchecked(view.getInt32(4)) == 42);
+assert(unchecked(view.getUint16(6)) == 42);
@@ -0,0 +1,4625 @@
+(module
+ (type $iiii (func (param i32 i32 i32) (result i32)))
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $ii (func (param i32) (result i32)))
+ (type $iiiv (func (param i32 i32 i32)))
+ (type $iiiii (func (param i32 i32 i32 i32) (result i32)))
+ (type $II (func (param i64) (result i64)))
+ (type $v (func))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/internal/allocator/AL_BITS i32 (i32.const 3))
+ (global $~lib/internal/allocator/AL_SIZE i32 (i32.const 8))
+ (global $~lib/internal/allocator/AL_MASK i32 (i32.const 7))
+ (global $~lib/internal/allocator/MAX_SIZE_32 i32 (i32.const 1073741824))
+ (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
+ (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $~lib/internal/arraybuffer/HEADER_SIZE i32 (i32.const 8))
+ (global $~lib/internal/arraybuffer/MAX_BLENGTH i32 (i32.const 1073741816))
+ (global $std/dataview/buffer (mut i32) (i32.const 0))
+ (global $~lib/builtins/i32.MIN_VALUE i32 (i32.const -2147483648))
+ (global $~argc (mut i32) (i32.const 0))
+ (global $std/dataview/view (mut i32) (i32.const 0))
+ (global $~lib/math/NativeMath.PI f64 (f64.const 3.141592653589793))
+ (global $std/dataview/sub (mut i32) (i32.const 0))
+ (global $HEAP_BASE i32 (i32.const 240))
+ (memory $0 1)
+ (data (i32.const 8) "\13\00\00\00~\00l\00i\00b\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s\00")
+ (data (i32.const 56) "\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s\00")
+ (data (i32.const 120) "\10\00\00\00~\00l\00i\00b\00/\00d\00a\00t\00a\00v\00i\00e\00w\00.\00t\00s\00")
+ (data (i32.const 160) "\0f\00\00\00s\00t\00d\00/\00d\00a\00t\00a\00v\00i\00e\00w\00.\00t\00s\00")
+ (data (i32.const 200) "\11\00\00\00~\00l\00i\00b\00/\00p\00o\00l\00y\00f\00i\00l\00l\00s\00.\00t\00s\00")
+ (export "memory" (memory $0))
+ (start $start)
+ (func $~lib/internal/arraybuffer/computeSize (; 1 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.shl
+   (i32.const 1)
+   (i32.sub
+    (i32.const 32)
+    (i32.clz
+     (i32.sub
+      (i32.add
+       (get_local $0)
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+      (i32.const 1)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/allocator/arena/__memory_allocate (; 2 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (get_global $~lib/internal/allocator/MAX_SIZE_32)
+   )
+   (unreachable)
+  )
+  (set_local $1
+   (get_global $~lib/allocator/arena/offset)
+  )
+  (set_local $4
+   (i32.and
+    (i32.add
+     (i32.add
+      (get_local $1)
+      (select
+       (tee_local $2
+        (get_local $0)
+       )
+       (tee_local $3
+        (i32.const 1)
+       )
+       (i32.gt_u
+        (get_local $2)
+        (get_local $3)
+       )
+      )
+     )
+     (get_global $~lib/internal/allocator/AL_MASK)
+    )
+    (i32.xor
+     (get_global $~lib/internal/allocator/AL_MASK)
+     (i32.const -1)
+    )
+   )
+  )
+  (set_local $5
+   (current_memory)
+  )
+  (if
+   (i32.gt_u
+    (get_local $4)
+    (i32.shl
+     (get_local $5)
+     (i32.const 16)
+    )
+   )
+   (block
+    (set_local $2
+     (i32.shr_u
+      (i32.and
+       (i32.add
+        (i32.sub
+         (get_local $4)
+         (get_local $1)
+        )
+        (i32.const 65535)
+       )
+       (i32.xor
+        (i32.const 65535)
+        (i32.const -1)
+       )
+      )
+      (i32.const 16)
+     )
+    )
+    (set_local $3
+     (select
+      (tee_local $3
+       (get_local $5)
+      )
+      (tee_local $6
+       (get_local $2)
+      )
+      (i32.gt_s
+       (get_local $3)
+       (get_local $6)
+      )
+     )
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $3)
+      )
+      (i32.const 0)
+     )
+     (if
+      (i32.lt_s
+       (grow_memory
+        (get_local $2)
+       )
+       (i32.const 0)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_local $4)
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/arraybuffer/allocateUnsafe (; 3 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (i32.le_u
+     (get_local $0)
+     (get_global $~lib/internal/arraybuffer/MAX_BLENGTH)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 23)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $1
+   (block $~lib/memory/memory.allocate|inlined.0 (result i32)
+    (set_local $2
+     (call $~lib/internal/arraybuffer/computeSize
+      (get_local $0)
+     )
+    )
+    (br $~lib/memory/memory.allocate|inlined.0
+     (call $~lib/allocator/arena/__memory_allocate
+      (get_local $2)
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/memory/memset (; 4 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i64)
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return)
+  )
+  (i32.store8
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 1)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 2)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 1)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 2)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 2)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 3)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 6)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 3)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 4)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (set_local $3
+   (i32.and
+    (i32.sub
+     (i32.const 0)
+     (get_local $0)
+    )
+    (i32.const 3)
+   )
+  )
+  (set_local $0
+   (i32.add
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.sub
+    (get_local $2)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.and
+    (get_local $2)
+    (i32.const -4)
+   )
+  )
+  (set_local $4
+   (i32.mul
+    (i32.div_u
+     (i32.const -1)
+     (i32.const 255)
+    )
+    (i32.and
+     (get_local $1)
+     (i32.const 255)
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 4)
+   )
+   (get_local $4)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 4)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 8)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 12)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 8)
+   )
+   (get_local $4)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 24)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 12)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 16)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 20)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 24)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 28)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 24)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 20)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 16)
+   )
+   (get_local $4)
+  )
+  (set_local $3
+   (i32.add
+    (i32.const 24)
+    (i32.and
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (set_local $0
+   (i32.add
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.sub
+    (get_local $2)
+    (get_local $3)
+   )
+  )
+  (set_local $5
+   (i64.or
+    (i64.extend_u/i32
+     (get_local $4)
+    )
+    (i64.shl
+     (i64.extend_u/i32
+      (get_local $4)
+     )
+     (i64.const 32)
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.ge_u
+      (get_local $2)
+      (i32.const 32)
+     )
+     (block
+      (block
+       (i64.store
+        (get_local $0)
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 16)
+        )
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 24)
+        )
+        (get_local $5)
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 32)
+        )
+       )
+       (set_local $0
+        (i32.add
+         (get_local $0)
+         (i32.const 32)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/arraybuffer/ArrayBuffer#constructor (; 5 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (i32.gt_u
+    (get_local $1)
+    (get_global $~lib/internal/arraybuffer/MAX_BLENGTH)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 13)
+     (i32.const 40)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $3
+   (call $~lib/internal/arraybuffer/allocateUnsafe
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (get_local $2)
+     (i32.const 1)
+    )
+   )
+   (block $~lib/memory/memory.fill|inlined.0
+    (set_local $4
+     (i32.add
+      (get_local $3)
+      (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+     )
+    )
+    (set_local $5
+     (i32.const 0)
+    )
+    (call $~lib/internal/memory/memset
+     (get_local $4)
+     (get_local $5)
+     (get_local $1)
+    )
+   )
+  )
+  (get_local $3)
+ )
+ (func $~lib/memory/memory.allocate (; 6 ;) (type $ii) (param $0 i32) (result i32)
+  (return
+   (call $~lib/allocator/arena/__memory_allocate
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/dataview/DataView#constructor (; 7 ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $4
+   (i32.load
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $3)
+    (get_global $~lib/builtins/i32.MIN_VALUE)
+   )
+   (set_local $3
+    (i32.sub
+     (get_local $4)
+     (get_local $2)
+    )
+   )
+  )
+  (if
+   (i32.gt_u
+    (get_local $2)
+    (get_local $4)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 15)
+     (i32.const 45)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $5
+     (i32.gt_u
+      (get_local $3)
+      (get_global $~lib/internal/arraybuffer/MAX_BLENGTH)
+     )
+    )
+    (get_local $5)
+    (i32.gt_s
+     (i32.add
+      (get_local $2)
+      (get_local $3)
+     )
+     (get_local $4)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 17)
+     (i32.const 6)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $5
+        (call $~lib/memory/memory.allocate
+         (i32.const 12)
+        )
+       )
+       (i32.store
+        (get_local $5)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $5)
+        (i32.const 0)
+       )
+       (i32.store offset=8
+        (get_local $5)
+        (i32.const 0)
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+   (get_local $1)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $3)
+  )
+  (get_local $0)
+ )
+ (func $~lib/dataview/DataView#constructor|trampoline (; 8 ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (block $2of2
+   (block $1of2
+    (block $0of2
+     (block $outOfRange
+      (br_table $0of2 $1of2 $2of2 $outOfRange
+       (i32.sub
+        (get_global $~argc)
+        (i32.const 1)
+       )
+      )
+     )
+     (unreachable)
+    )
+    (set_local $2
+     (i32.const 0)
+    )
+   )
+   (set_local $3
+    (get_global $~lib/builtins/i32.MIN_VALUE)
+   )
+  )
+  (call $~lib/dataview/DataView#constructor
+   (get_local $0)
+   (get_local $1)
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/polyfills/bswap16<u16> (; 9 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $1
+      (if (result i32)
+       (tee_local $1
+        (i32.eq
+         (i32.const 2)
+         (i32.const 1)
+        )
+       )
+       (get_local $1)
+       (i32.eq
+        (i32.const 2)
+        (i32.const 2)
+       )
+      )
+     )
+     (get_local $1)
+     (i32.eq
+      (i32.const 2)
+      (i32.const 4)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 200)
+     (i32.const 27)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $1
+     (i32.eq
+      (i32.const 2)
+      (i32.const 2)
+     )
+    )
+    (get_local $1)
+    (i32.eq
+     (i32.const 2)
+     (i32.const 4)
+    )
+   )
+   (return
+    (i32.or
+     (i32.or
+      (i32.and
+       (i32.shl
+        (get_local $0)
+        (i32.const 8)
+       )
+       (i32.const 65280)
+      )
+      (i32.and
+       (i32.shr_u
+        (i32.and
+         (get_local $0)
+         (i32.const 65535)
+        )
+        (i32.const 8)
+       )
+       (i32.const 255)
+      )
+     )
+     (i32.and
+      (get_local $0)
+      (i32.const -65536)
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/polyfills/bswap<u16> (; 10 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $1
+      (if (result i32)
+       (tee_local $1
+        (if (result i32)
+         (tee_local $1
+          (i32.eq
+           (i32.const 2)
+           (i32.const 1)
+          )
+         )
+         (get_local $1)
+         (i32.eq
+          (i32.const 2)
+          (i32.const 2)
+         )
+        )
+       )
+       (get_local $1)
+       (i32.eq
+        (i32.const 2)
+        (i32.const 4)
+       )
+      )
+     )
+     (get_local $1)
+     (i32.eq
+      (i32.const 2)
+      (i32.const 8)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 200)
+     (i32.const 2)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (return
+   (call $~lib/polyfills/bswap16<u16>
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/polyfills/bswap16<i16> (; 11 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $1
+      (if (result i32)
+       (tee_local $1
+        (i32.eq
+         (i32.const 2)
+         (i32.const 1)
+        )
+       )
+       (get_local $1)
+       (i32.eq
+        (i32.const 2)
+        (i32.const 2)
+       )
+      )
+     )
+     (get_local $1)
+     (i32.eq
+      (i32.const 2)
+      (i32.const 4)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 200)
+     (i32.const 27)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $1
+     (i32.eq
+      (i32.const 2)
+      (i32.const 2)
+     )
+    )
+    (get_local $1)
+    (i32.eq
+     (i32.const 2)
+     (i32.const 4)
+    )
+   )
+   (return
+    (i32.or
+     (i32.or
+      (i32.and
+       (i32.shl
+        (get_local $0)
+        (i32.const 8)
+       )
+       (i32.const 65280)
+      )
+      (i32.and
+       (i32.shr_s
+        (i32.shr_s
+         (i32.shl
+          (get_local $0)
+          (i32.const 16)
+         )
+         (i32.const 16)
+        )
+        (i32.const 8)
+       )
+       (i32.const 255)
+      )
+     )
+     (i32.and
+      (get_local $0)
+      (i32.const -65536)
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/polyfills/bswap<i16> (; 12 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $1
+      (if (result i32)
+       (tee_local $1
+        (if (result i32)
+         (tee_local $1
+          (i32.eq
+           (i32.const 2)
+           (i32.const 1)
+          )
+         )
+         (get_local $1)
+         (i32.eq
+          (i32.const 2)
+          (i32.const 2)
+         )
+        )
+       )
+       (get_local $1)
+       (i32.eq
+        (i32.const 2)
+        (i32.const 4)
+       )
+      )
+     )
+     (get_local $1)
+     (i32.eq
+      (i32.const 2)
+      (i32.const 8)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 200)
+     (i32.const 2)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (return
+   (call $~lib/polyfills/bswap16<i16>
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/polyfills/bswap<i32> (; 13 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $1
+      (if (result i32)
+       (tee_local $1
+        (if (result i32)
+         (tee_local $1
+          (i32.eq
+           (i32.const 4)
+           (i32.const 1)
+          )
+         )
+         (get_local $1)
+         (i32.eq
+          (i32.const 4)
+          (i32.const 2)
+         )
+        )
+       )
+       (get_local $1)
+       (i32.eq
+        (i32.const 4)
+        (i32.const 4)
+       )
+      )
+     )
+     (get_local $1)
+     (i32.eq
+      (i32.const 4)
+      (i32.const 8)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 200)
+     (i32.const 2)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (return
+   (i32.or
+    (i32.rotl
+     (i32.and
+      (get_local $0)
+      (i32.const -16711936)
+     )
+     (i32.const 8)
+    )
+    (i32.rotr
+     (i32.and
+      (get_local $0)
+      (i32.const 16711935)
+     )
+     (i32.const 8)
+    )
+   )
+  )
+ )
+ (func $~lib/polyfills/bswap<u32> (; 14 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $1
+      (if (result i32)
+       (tee_local $1
+        (if (result i32)
+         (tee_local $1
+          (i32.eq
+           (i32.const 4)
+           (i32.const 1)
+          )
+         )
+         (get_local $1)
+         (i32.eq
+          (i32.const 4)
+          (i32.const 2)
+         )
+        )
+       )
+       (get_local $1)
+       (i32.eq
+        (i32.const 4)
+        (i32.const 4)
+       )
+      )
+     )
+     (get_local $1)
+     (i32.eq
+      (i32.const 4)
+      (i32.const 8)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 200)
+     (i32.const 2)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (return
+   (i32.or
+    (i32.rotl
+     (i32.and
+      (get_local $0)
+      (i32.const -16711936)
+     )
+     (i32.const 8)
+    )
+    (i32.rotr
+     (i32.and
+      (get_local $0)
+      (i32.const 16711935)
+     )
+     (i32.const 8)
+    )
+   )
+  )
+ )
+ (func $~lib/polyfills/bswap<i64> (; 15 ;) (type $II) (param $0 i64) (result i64)
+  (local $1 i32)
+  (local $2 i64)
+  (local $3 i64)
+  (local $4 i64)
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $1
+      (if (result i32)
+       (tee_local $1
+        (if (result i32)
+         (tee_local $1
+          (i32.eq
+           (i32.const 8)
+           (i32.const 1)
+          )
+         )
+         (get_local $1)
+         (i32.eq
+          (i32.const 8)
+          (i32.const 2)
+         )
+        )
+       )
+       (get_local $1)
+       (i32.eq
+        (i32.const 8)
+        (i32.const 4)
+       )
+      )
+     )
+     (get_local $1)
+     (i32.eq
+      (i32.const 8)
+      (i32.const 8)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 200)
+     (i32.const 2)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $2
+   (i64.and
+    (i64.shr_u
+     (get_local $0)
+     (i64.const 8)
+    )
+    (i64.const 71777214294589695)
+   )
+  )
+  (set_local $3
+   (i64.shl
+    (i64.and
+     (get_local $0)
+     (i64.const 71777214294589695)
+    )
+    (i64.const 8)
+   )
+  )
+  (set_local $4
+   (i64.or
+    (get_local $2)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i64.and
+    (i64.shr_u
+     (get_local $4)
+     (i64.const 16)
+    )
+    (i64.const 281470681808895)
+   )
+  )
+  (set_local $3
+   (i64.shl
+    (i64.and
+     (get_local $4)
+     (i64.const 281470681808895)
+    )
+    (i64.const 16)
+   )
+  )
+  (return
+   (i64.rotr
+    (i64.or
+     (get_local $2)
+     (get_local $3)
+    )
+    (i64.const 32)
+   )
+  )
+ )
+ (func $~lib/polyfills/bswap<u64> (; 16 ;) (type $II) (param $0 i64) (result i64)
+  (local $1 i32)
+  (local $2 i64)
+  (local $3 i64)
+  (local $4 i64)
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $1
+      (if (result i32)
+       (tee_local $1
+        (if (result i32)
+         (tee_local $1
+          (i32.eq
+           (i32.const 8)
+           (i32.const 1)
+          )
+         )
+         (get_local $1)
+         (i32.eq
+          (i32.const 8)
+          (i32.const 2)
+         )
+        )
+       )
+       (get_local $1)
+       (i32.eq
+        (i32.const 8)
+        (i32.const 4)
+       )
+      )
+     )
+     (get_local $1)
+     (i32.eq
+      (i32.const 8)
+      (i32.const 8)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 200)
+     (i32.const 2)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $2
+   (i64.and
+    (i64.shr_u
+     (get_local $0)
+     (i64.const 8)
+    )
+    (i64.const 71777214294589695)
+   )
+  )
+  (set_local $3
+   (i64.shl
+    (i64.and
+     (get_local $0)
+     (i64.const 71777214294589695)
+    )
+    (i64.const 8)
+   )
+  )
+  (set_local $4
+   (i64.or
+    (get_local $2)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i64.and
+    (i64.shr_u
+     (get_local $4)
+     (i64.const 16)
+    )
+    (i64.const 281470681808895)
+   )
+  )
+  (set_local $3
+   (i64.shl
+    (i64.and
+     (get_local $4)
+     (i64.const 281470681808895)
+    )
+    (i64.const 16)
+   )
+  )
+  (return
+   (i64.rotr
+    (i64.or
+     (get_local $2)
+     (get_local $3)
+    )
+    (i64.const 32)
+   )
+  )
+ )
+ (func $start (; 17 ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i64)
+  (local $6 f32)
+  (local $7 f64)
+  (set_global $~lib/allocator/arena/startOffset
+   (i32.and
+    (i32.add
+     (get_global $HEAP_BASE)
+     (get_global $~lib/internal/allocator/AL_MASK)
+    )
+    (i32.xor
+     (get_global $~lib/internal/allocator/AL_MASK)
+     (i32.const -1)
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_global $~lib/allocator/arena/startOffset)
+  )
+  (set_global $std/dataview/buffer
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 16)
+    (i32.const 0)
+   )
+  )
+  (set_global $std/dataview/view
+   (block (result i32)
+    (set_global $~argc
+     (i32.const 1)
+    )
+    (call $~lib/dataview/DataView#constructor|trampoline
+     (i32.const 0)
+     (get_global $std/dataview/buffer)
+     (i32.const 0)
+     (i32.const 0)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.load
+      (get_global $std/dataview/view)
+     )
+     (get_global $std/dataview/buffer)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 6)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.load offset=4
+      (get_global $std/dataview/view)
+     )
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 7)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.load offset=8
+      (get_global $std/dataview/view)
+     )
+     (i32.const 16)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 8)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (block $~lib/dataview/DataView#setInt8|inlined.0
+   (set_local $0
+    (get_global $std/dataview/view)
+   )
+   (set_local $1
+    (i32.const 0)
+   )
+   (set_local $2
+    (i32.const -2)
+   )
+   (i32.store8 offset=8
+    (block $~lib/dataview/DataView#checkedPtr<i8>|inlined.0 (result i32)
+     (if
+      (if (result i32)
+       (tee_local $3
+        (i32.lt_s
+         (get_local $1)
+         (i32.const 0)
+        )
+       )
+       (get_local $3)
+       (i32.gt_s
+        (i32.add
+         (get_local $1)
+         (i32.const 1)
+        )
+        (i32.load offset=8
+         (get_local $0)
+        )
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 120)
+        (i32.const 140)
+        (i32.const 8)
+       )
+       (unreachable)
+      )
+     )
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $0)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (get_local $1)
+     )
+    )
+    (get_local $2)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.shr_s
+      (i32.shl
+       (block $~lib/dataview/DataView#getInt8|inlined.0 (result i32)
+        (set_local $2
+         (get_global $std/dataview/view)
+        )
+        (set_local $1
+         (i32.const 0)
+        )
+        (i32.load8_s offset=8
+         (block $~lib/dataview/DataView#checkedPtr<i8>|inlined.1 (result i32)
+          (if
+           (if (result i32)
+            (tee_local $0
+             (i32.lt_s
+              (get_local $1)
+              (i32.const 0)
+             )
+            )
+            (get_local $0)
+            (i32.gt_s
+             (i32.add
+              (get_local $1)
+              (i32.const 1)
+             )
+             (i32.load offset=8
+              (get_local $2)
+             )
+            )
+           )
+           (block
+            (call $~lib/env/abort
+             (i32.const 0)
+             (i32.const 120)
+             (i32.const 140)
+             (i32.const 8)
+            )
+            (unreachable)
+           )
+          )
+          (i32.add
+           (i32.add
+            (i32.load
+             (get_local $2)
+            )
+            (i32.load offset=4
+             (get_local $2)
+            )
+           )
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (i32.const 24)
+      )
+      (i32.const 24)
+     )
+     (i32.const -2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 13)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.and
+      (block $~lib/dataview/DataView#getUint8|inlined.0 (result i32)
+       (set_local $1
+        (get_global $std/dataview/view)
+       )
+       (set_local $2
+        (i32.const 0)
+       )
+       (i32.load8_u offset=8
+        (block $~lib/dataview/DataView#checkedPtr<u8>|inlined.0 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $0
+            (i32.lt_s
+             (get_local $2)
+             (i32.const 0)
+            )
+           )
+           (get_local $0)
+           (i32.gt_s
+            (i32.add
+             (get_local $2)
+             (i32.const 1)
+            )
+            (i32.load offset=8
+             (get_local $1)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $1)
+           )
+           (i32.load offset=4
+            (get_local $1)
+           )
+          )
+          (get_local $2)
+         )
+        )
+       )
+      )
+      (i32.const 255)
+     )
+     (i32.const 254)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 14)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (block $~lib/dataview/DataView#setUint8|inlined.0
+   (set_local $2
+    (get_global $std/dataview/view)
+   )
+   (set_local $1
+    (i32.const 1)
+   )
+   (set_local $0
+    (i32.const 128)
+   )
+   (i32.store8 offset=8
+    (block $~lib/dataview/DataView#checkedPtr<u8>|inlined.1 (result i32)
+     (if
+      (if (result i32)
+       (tee_local $3
+        (i32.lt_s
+         (get_local $1)
+         (i32.const 0)
+        )
+       )
+       (get_local $3)
+       (i32.gt_s
+        (i32.add
+         (get_local $1)
+         (i32.const 1)
+        )
+        (i32.load offset=8
+         (get_local $2)
+        )
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 120)
+        (i32.const 140)
+        (i32.const 8)
+       )
+       (unreachable)
+      )
+     )
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $2)
+       )
+       (i32.load offset=4
+        (get_local $2)
+       )
+      )
+      (get_local $1)
+     )
+    )
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.shr_s
+      (i32.shl
+       (block $~lib/dataview/DataView#getInt8|inlined.1 (result i32)
+        (set_local $0
+         (get_global $std/dataview/view)
+        )
+        (set_local $1
+         (i32.const 1)
+        )
+        (i32.load8_s offset=8
+         (block $~lib/dataview/DataView#checkedPtr<i8>|inlined.2 (result i32)
+          (if
+           (if (result i32)
+            (tee_local $2
+             (i32.lt_s
+              (get_local $1)
+              (i32.const 0)
+             )
+            )
+            (get_local $2)
+            (i32.gt_s
+             (i32.add
+              (get_local $1)
+              (i32.const 1)
+             )
+             (i32.load offset=8
+              (get_local $0)
+             )
+            )
+           )
+           (block
+            (call $~lib/env/abort
+             (i32.const 0)
+             (i32.const 120)
+             (i32.const 140)
+             (i32.const 8)
+            )
+            (unreachable)
+           )
+          )
+          (i32.add
+           (i32.add
+            (i32.load
+             (get_local $0)
+            )
+            (i32.load offset=4
+             (get_local $0)
+            )
+           )
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (i32.const 24)
+      )
+      (i32.const 24)
+     )
+     (i32.const -128)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 16)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (block $~lib/dataview/DataView#setUint16|inlined.0
+   (set_local $1
+    (get_global $std/dataview/view)
+   )
+   (set_local $0
+    (i32.const 0)
+   )
+   (set_local $2
+    (i32.const 4660)
+   )
+   (set_local $3
+    (i32.const 0)
+   )
+   (i32.store16 offset=8
+    (block $~lib/dataview/DataView#checkedPtr<u16>|inlined.0 (result i32)
+     (if
+      (if (result i32)
+       (tee_local $4
+        (i32.lt_s
+         (get_local $0)
+         (i32.const 0)
+        )
+       )
+       (get_local $4)
+       (i32.gt_s
+        (i32.add
+         (get_local $0)
+         (i32.const 2)
+        )
+        (i32.load offset=8
+         (get_local $1)
+        )
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 120)
+        (i32.const 140)
+        (i32.const 8)
+       )
+       (unreachable)
+      )
+     )
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $1)
+       )
+       (i32.load offset=4
+        (get_local $1)
+       )
+      )
+      (get_local $0)
+     )
+    )
+    (if (result i32)
+     (get_local $3)
+     (get_local $2)
+     (call $~lib/polyfills/bswap<u16>
+      (get_local $2)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.load8_u offset=8
+      (get_global $std/dataview/buffer)
+     )
+     (i32.const 18)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 21)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.load8_u offset=9
+      (get_global $std/dataview/buffer)
+     )
+     (i32.const 52)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 22)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.and
+      (block $~lib/dataview/DataView#getUint16|inlined.0 (result i32)
+       (set_local $3
+        (get_global $std/dataview/view)
+       )
+       (set_local $2
+        (i32.const 0)
+       )
+       (set_local $0
+        (i32.const 0)
+       )
+       (set_local $1
+        (i32.load16_u offset=8
+         (block $~lib/dataview/DataView#checkedPtr<u16>|inlined.1 (result i32)
+          (if
+           (if (result i32)
+            (tee_local $1
+             (i32.lt_s
+              (get_local $2)
+              (i32.const 0)
+             )
+            )
+            (get_local $1)
+            (i32.gt_s
+             (i32.add
+              (get_local $2)
+              (i32.const 2)
+             )
+             (i32.load offset=8
+              (get_local $3)
+             )
+            )
+           )
+           (block
+            (call $~lib/env/abort
+             (i32.const 0)
+             (i32.const 120)
+             (i32.const 140)
+             (i32.const 8)
+            )
+            (unreachable)
+           )
+          )
+          (i32.add
+           (i32.add
+            (i32.load
+             (get_local $3)
+            )
+            (i32.load offset=4
+             (get_local $3)
+            )
+           )
+           (get_local $2)
+          )
+         )
+        )
+       )
+       (if (result i32)
+        (get_local $0)
+        (get_local $1)
+        (call $~lib/polyfills/bswap<u16>
+         (get_local $1)
+        )
+       )
+      )
+      (i32.const 65535)
+     )
+     (i32.const 4660)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 23)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.and
+      (block $~lib/dataview/DataView#getUint16|inlined.1 (result i32)
+       (set_local $1
+        (get_global $std/dataview/view)
+       )
+       (set_local $0
+        (i32.const 0)
+       )
+       (set_local $2
+        (i32.const 1)
+       )
+       (set_local $3
+        (i32.load16_u offset=8
+         (block $~lib/dataview/DataView#checkedPtr<u16>|inlined.2 (result i32)
+          (if
+           (if (result i32)
+            (tee_local $3
+             (i32.lt_s
+              (get_local $0)
+              (i32.const 0)
+             )
+            )
+            (get_local $3)
+            (i32.gt_s
+             (i32.add
+              (get_local $0)
+              (i32.const 2)
+             )
+             (i32.load offset=8
+              (get_local $1)
+             )
+            )
+           )
+           (block
+            (call $~lib/env/abort
+             (i32.const 0)
+             (i32.const 120)
+             (i32.const 140)
+             (i32.const 8)
+            )
+            (unreachable)
+           )
+          )
+          (i32.add
+           (i32.add
+            (i32.load
+             (get_local $1)
+            )
+            (i32.load offset=4
+             (get_local $1)
+            )
+           )
+           (get_local $0)
+          )
+         )
+        )
+       )
+       (if (result i32)
+        (get_local $2)
+        (get_local $3)
+        (call $~lib/polyfills/bswap<u16>
+         (get_local $3)
+        )
+       )
+      )
+      (i32.const 65535)
+     )
+     (i32.const 13330)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 24)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (block $~lib/dataview/DataView#setInt16|inlined.0
+   (set_local $3
+    (get_global $std/dataview/view)
+   )
+   (set_local $2
+    (i32.const 2)
+   )
+   (set_local $0
+    (i32.const -2)
+   )
+   (set_local $1
+    (i32.const 1)
+   )
+   (i32.store16 offset=8
+    (block $~lib/dataview/DataView#checkedPtr<i16>|inlined.0 (result i32)
+     (if
+      (if (result i32)
+       (tee_local $4
+        (i32.lt_s
+         (get_local $2)
+         (i32.const 0)
+        )
+       )
+       (get_local $4)
+       (i32.gt_s
+        (i32.add
+         (get_local $2)
+         (i32.const 2)
+        )
+        (i32.load offset=8
+         (get_local $3)
+        )
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 120)
+        (i32.const 140)
+        (i32.const 8)
+       )
+       (unreachable)
+      )
+     )
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $3)
+       )
+       (i32.load offset=4
+        (get_local $3)
+       )
+      )
+      (get_local $2)
+     )
+    )
+    (if (result i32)
+     (get_local $1)
+     (get_local $0)
+     (call $~lib/polyfills/bswap<i16>
+      (get_local $0)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.shr_s
+      (i32.shl
+       (block $~lib/dataview/DataView#getInt16|inlined.0 (result i32)
+        (set_local $1
+         (get_global $std/dataview/view)
+        )
+        (set_local $0
+         (i32.const 2)
+        )
+        (set_local $2
+         (i32.const 1)
+        )
+        (set_local $3
+         (i32.load16_s offset=8
+          (block $~lib/dataview/DataView#checkedPtr<i16>|inlined.1 (result i32)
+           (if
+            (if (result i32)
+             (tee_local $3
+              (i32.lt_s
+               (get_local $0)
+               (i32.const 0)
+              )
+             )
+             (get_local $3)
+             (i32.gt_s
+              (i32.add
+               (get_local $0)
+               (i32.const 2)
+              )
+              (i32.load offset=8
+               (get_local $1)
+              )
+             )
+            )
+            (block
+             (call $~lib/env/abort
+              (i32.const 0)
+              (i32.const 120)
+              (i32.const 140)
+              (i32.const 8)
+             )
+             (unreachable)
+            )
+           )
+           (i32.add
+            (i32.add
+             (i32.load
+              (get_local $1)
+             )
+             (i32.load offset=4
+              (get_local $1)
+             )
+            )
+            (get_local $0)
+           )
+          )
+         )
+        )
+        (if (result i32)
+         (get_local $2)
+         (get_local $3)
+         (call $~lib/polyfills/bswap<i16>
+          (get_local $3)
+         )
+        )
+       )
+       (i32.const 16)
+      )
+      (i32.const 16)
+     )
+     (i32.const -2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 26)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.shr_s
+      (i32.shl
+       (block $~lib/dataview/DataView#getInt16|inlined.1 (result i32)
+        (set_local $3
+         (get_global $std/dataview/view)
+        )
+        (set_local $2
+         (i32.const 2)
+        )
+        (set_local $0
+         (i32.const 0)
+        )
+        (set_local $1
+         (i32.load16_s offset=8
+          (block $~lib/dataview/DataView#checkedPtr<i16>|inlined.2 (result i32)
+           (if
+            (if (result i32)
+             (tee_local $1
+              (i32.lt_s
+               (get_local $2)
+               (i32.const 0)
+              )
+             )
+             (get_local $1)
+             (i32.gt_s
+              (i32.add
+               (get_local $2)
+               (i32.const 2)
+              )
+              (i32.load offset=8
+               (get_local $3)
+              )
+             )
+            )
+            (block
+             (call $~lib/env/abort
+              (i32.const 0)
+              (i32.const 120)
+              (i32.const 140)
+              (i32.const 8)
+             )
+             (unreachable)
+            )
+           )
+           (i32.add
+            (i32.add
+             (i32.load
+              (get_local $3)
+             )
+             (i32.load offset=4
+              (get_local $3)
+             )
+            )
+            (get_local $2)
+           )
+          )
+         )
+        )
+        (if (result i32)
+         (get_local $0)
+         (get_local $1)
+         (call $~lib/polyfills/bswap<i16>
+          (get_local $1)
+         )
+        )
+       )
+       (i32.const 16)
+      )
+      (i32.const 16)
+     )
+     (i32.const -257)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 27)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (block $~lib/dataview/DataView#setInt32|inlined.0
+   (set_local $1
+    (get_global $std/dataview/view)
+   )
+   (set_local $0
+    (i32.const 4)
+   )
+   (set_local $2
+    (i32.const 16909060)
+   )
+   (set_local $3
+    (i32.const 0)
+   )
+   (i32.store offset=8
+    (block $~lib/dataview/DataView#checkedPtr<i32>|inlined.0 (result i32)
+     (if
+      (if (result i32)
+       (tee_local $4
+        (i32.lt_s
+         (get_local $0)
+         (i32.const 0)
+        )
+       )
+       (get_local $4)
+       (i32.gt_s
+        (i32.add
+         (get_local $0)
+         (i32.const 4)
+        )
+        (i32.load offset=8
+         (get_local $1)
+        )
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 120)
+        (i32.const 140)
+        (i32.const 8)
+       )
+       (unreachable)
+      )
+     )
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $1)
+       )
+       (i32.load offset=4
+        (get_local $1)
+       )
+      )
+      (get_local $0)
+     )
+    )
+    (if (result i32)
+     (get_local $3)
+     (get_local $2)
+     (call $~lib/polyfills/bswap<i32>
+      (get_local $2)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.and
+      (block $~lib/dataview/DataView#getUint8|inlined.1 (result i32)
+       (set_local $3
+        (get_global $std/dataview/view)
+       )
+       (set_local $2
+        (i32.const 4)
+       )
+       (i32.load8_u offset=8
+        (block $~lib/dataview/DataView#checkedPtr<u8>|inlined.2 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $0
+            (i32.lt_s
+             (get_local $2)
+             (i32.const 0)
+            )
+           )
+           (get_local $0)
+           (i32.gt_s
+            (i32.add
+             (get_local $2)
+             (i32.const 1)
+            )
+            (i32.load offset=8
+             (get_local $3)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $3)
+           )
+           (i32.load offset=4
+            (get_local $3)
+           )
+          )
+          (get_local $2)
+         )
+        )
+       )
+      )
+      (i32.const 255)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 32)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.and
+      (block $~lib/dataview/DataView#getUint8|inlined.2 (result i32)
+       (set_local $2
+        (get_global $std/dataview/view)
+       )
+       (set_local $3
+        (i32.const 7)
+       )
+       (i32.load8_u offset=8
+        (block $~lib/dataview/DataView#checkedPtr<u8>|inlined.3 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $0
+            (i32.lt_s
+             (get_local $3)
+             (i32.const 0)
+            )
+           )
+           (get_local $0)
+           (i32.gt_s
+            (i32.add
+             (get_local $3)
+             (i32.const 1)
+            )
+            (i32.load offset=8
+             (get_local $2)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $2)
+           )
+           (i32.load offset=4
+            (get_local $2)
+           )
+          )
+          (get_local $3)
+         )
+        )
+       )
+      )
+      (i32.const 255)
+     )
+     (i32.const 4)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 33)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block $~lib/dataview/DataView#getInt32|inlined.0 (result i32)
+      (set_local $3
+       (get_global $std/dataview/view)
+      )
+      (set_local $2
+       (i32.const 4)
+      )
+      (set_local $0
+       (i32.const 0)
+      )
+      (set_local $1
+       (i32.load offset=8
+        (block $~lib/dataview/DataView#checkedPtr<i32>|inlined.1 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $1
+            (i32.lt_s
+             (get_local $2)
+             (i32.const 0)
+            )
+           )
+           (get_local $1)
+           (i32.gt_s
+            (i32.add
+             (get_local $2)
+             (i32.const 4)
+            )
+            (i32.load offset=8
+             (get_local $3)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $3)
+           )
+           (i32.load offset=4
+            (get_local $3)
+           )
+          )
+          (get_local $2)
+         )
+        )
+       )
+      )
+      (if (result i32)
+       (get_local $0)
+       (get_local $1)
+       (call $~lib/polyfills/bswap<i32>
+        (get_local $1)
+       )
+      )
+     )
+     (i32.const 16909060)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 34)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block $~lib/dataview/DataView#getInt32|inlined.1 (result i32)
+      (set_local $1
+       (get_global $std/dataview/view)
+      )
+      (set_local $0
+       (i32.const 4)
+      )
+      (set_local $2
+       (i32.const 1)
+      )
+      (set_local $3
+       (i32.load offset=8
+        (block $~lib/dataview/DataView#checkedPtr<i32>|inlined.2 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $3
+            (i32.lt_s
+             (get_local $0)
+             (i32.const 0)
+            )
+           )
+           (get_local $3)
+           (i32.gt_s
+            (i32.add
+             (get_local $0)
+             (i32.const 4)
+            )
+            (i32.load offset=8
+             (get_local $1)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $1)
+           )
+           (i32.load offset=4
+            (get_local $1)
+           )
+          )
+          (get_local $0)
+         )
+        )
+       )
+      )
+      (if (result i32)
+       (get_local $2)
+       (get_local $3)
+       (call $~lib/polyfills/bswap<i32>
+        (get_local $3)
+       )
+      )
+     )
+     (i32.const 67305985)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 35)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (block $~lib/dataview/DataView#setUint32|inlined.0
+   (set_local $3
+    (get_global $std/dataview/view)
+   )
+   (set_local $2
+    (i32.const 4)
+   )
+   (set_local $0
+    (i32.const -2)
+   )
+   (set_local $1
+    (i32.const 1)
+   )
+   (i32.store offset=8
+    (block $~lib/dataview/DataView#checkedPtr<u32>|inlined.0 (result i32)
+     (if
+      (if (result i32)
+       (tee_local $4
+        (i32.lt_s
+         (get_local $2)
+         (i32.const 0)
+        )
+       )
+       (get_local $4)
+       (i32.gt_s
+        (i32.add
+         (get_local $2)
+         (i32.const 4)
+        )
+        (i32.load offset=8
+         (get_local $3)
+        )
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 120)
+        (i32.const 140)
+        (i32.const 8)
+       )
+       (unreachable)
+      )
+     )
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $3)
+       )
+       (i32.load offset=4
+        (get_local $3)
+       )
+      )
+      (get_local $2)
+     )
+    )
+    (if (result i32)
+     (get_local $1)
+     (get_local $0)
+     (call $~lib/polyfills/bswap<u32>
+      (get_local $0)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block $~lib/dataview/DataView#getUint32|inlined.0 (result i32)
+      (set_local $1
+       (get_global $std/dataview/view)
+      )
+      (set_local $0
+       (i32.const 4)
+      )
+      (set_local $2
+       (i32.const 1)
+      )
+      (set_local $3
+       (i32.load offset=8
+        (block $~lib/dataview/DataView#checkedPtr<u32>|inlined.1 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $3
+            (i32.lt_s
+             (get_local $0)
+             (i32.const 0)
+            )
+           )
+           (get_local $3)
+           (i32.gt_s
+            (i32.add
+             (get_local $0)
+             (i32.const 4)
+            )
+            (i32.load offset=8
+             (get_local $1)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $1)
+           )
+           (i32.load offset=4
+            (get_local $1)
+           )
+          )
+          (get_local $0)
+         )
+        )
+       )
+      )
+      (if (result i32)
+       (get_local $2)
+       (get_local $3)
+       (call $~lib/polyfills/bswap<u32>
+        (get_local $3)
+       )
+      )
+     )
+     (i32.const -2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 37)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block $~lib/dataview/DataView#getUint32|inlined.1 (result i32)
+      (set_local $3
+       (get_global $std/dataview/view)
+      )
+      (set_local $2
+       (i32.const 4)
+      )
+      (set_local $0
+       (i32.const 0)
+      )
+      (set_local $1
+       (i32.load offset=8
+        (block $~lib/dataview/DataView#checkedPtr<u32>|inlined.2 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $1
+            (i32.lt_s
+             (get_local $2)
+             (i32.const 0)
+            )
+           )
+           (get_local $1)
+           (i32.gt_s
+            (i32.add
+             (get_local $2)
+             (i32.const 4)
+            )
+            (i32.load offset=8
+             (get_local $3)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $3)
+           )
+           (i32.load offset=4
+            (get_local $3)
+           )
+          )
+          (get_local $2)
+         )
+        )
+       )
+      )
+      (if (result i32)
+       (get_local $0)
+       (get_local $1)
+       (call $~lib/polyfills/bswap<u32>
+        (get_local $1)
+       )
+      )
+     )
+     (i32.const -16777217)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 38)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (block $~lib/dataview/DataView#setInt64|inlined.0
+   (set_local $1
+    (get_global $std/dataview/view)
+   )
+   (set_local $0
+    (i32.const 8)
+   )
+   (set_local $5
+    (i64.const 72623859790382856)
+   )
+   (set_local $2
+    (i32.const 0)
+   )
+   (i64.store offset=8
+    (block $~lib/dataview/DataView#checkedPtr<i64>|inlined.0 (result i32)
+     (if
+      (if (result i32)
+       (tee_local $3
+        (i32.lt_s
+         (get_local $0)
+         (i32.const 0)
+        )
+       )
+       (get_local $3)
+       (i32.gt_s
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (i32.load offset=8
+         (get_local $1)
+        )
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 120)
+        (i32.const 140)
+        (i32.const 8)
+       )
+       (unreachable)
+      )
+     )
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $1)
+       )
+       (i32.load offset=4
+        (get_local $1)
+       )
+      )
+      (get_local $0)
+     )
+    )
+    (if (result i64)
+     (get_local $2)
+     (get_local $5)
+     (call $~lib/polyfills/bswap<i64>
+      (get_local $5)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.and
+      (block $~lib/dataview/DataView#getUint8|inlined.3 (result i32)
+       (set_local $2
+        (get_global $std/dataview/view)
+       )
+       (set_local $0
+        (i32.const 8)
+       )
+       (i32.load8_u offset=8
+        (block $~lib/dataview/DataView#checkedPtr<u8>|inlined.4 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $1
+            (i32.lt_s
+             (get_local $0)
+             (i32.const 0)
+            )
+           )
+           (get_local $1)
+           (i32.gt_s
+            (i32.add
+             (get_local $0)
+             (i32.const 1)
+            )
+            (i32.load offset=8
+             (get_local $2)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $2)
+           )
+           (i32.load offset=4
+            (get_local $2)
+           )
+          )
+          (get_local $0)
+         )
+        )
+       )
+      )
+      (i32.const 255)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 43)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.and
+      (block $~lib/dataview/DataView#getUint8|inlined.4 (result i32)
+       (set_local $0
+        (get_global $std/dataview/view)
+       )
+       (set_local $2
+        (i32.const 15)
+       )
+       (i32.load8_u offset=8
+        (block $~lib/dataview/DataView#checkedPtr<u8>|inlined.5 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $1
+            (i32.lt_s
+             (get_local $2)
+             (i32.const 0)
+            )
+           )
+           (get_local $1)
+           (i32.gt_s
+            (i32.add
+             (get_local $2)
+             (i32.const 1)
+            )
+            (i32.load offset=8
+             (get_local $0)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $0)
+           )
+           (i32.load offset=4
+            (get_local $0)
+           )
+          )
+          (get_local $2)
+         )
+        )
+       )
+      )
+      (i32.const 255)
+     )
+     (i32.const 8)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 44)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i64.eq
+     (block $~lib/dataview/DataView#getInt64|inlined.0 (result i64)
+      (set_local $2
+       (get_global $std/dataview/view)
+      )
+      (set_local $0
+       (i32.const 8)
+      )
+      (set_local $1
+       (i32.const 0)
+      )
+      (set_local $5
+       (i64.load offset=8
+        (block $~lib/dataview/DataView#checkedPtr<i64>|inlined.1 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $3
+            (i32.lt_s
+             (get_local $0)
+             (i32.const 0)
+            )
+           )
+           (get_local $3)
+           (i32.gt_s
+            (i32.add
+             (get_local $0)
+             (i32.const 8)
+            )
+            (i32.load offset=8
+             (get_local $2)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $2)
+           )
+           (i32.load offset=4
+            (get_local $2)
+           )
+          )
+          (get_local $0)
+         )
+        )
+       )
+      )
+      (if (result i64)
+       (get_local $1)
+       (get_local $5)
+       (call $~lib/polyfills/bswap<i64>
+        (get_local $5)
+       )
+      )
+     )
+     (i64.const 72623859790382856)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 45)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i64.eq
+     (block $~lib/dataview/DataView#getUint64|inlined.0 (result i64)
+      (set_local $1
+       (get_global $std/dataview/view)
+      )
+      (set_local $0
+       (i32.const 8)
+      )
+      (set_local $2
+       (i32.const 1)
+      )
+      (set_local $5
+       (i64.load offset=8
+        (block $~lib/dataview/DataView#checkedPtr<u64>|inlined.0 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $3
+            (i32.lt_s
+             (get_local $0)
+             (i32.const 0)
+            )
+           )
+           (get_local $3)
+           (i32.gt_s
+            (i32.add
+             (get_local $0)
+             (i32.const 8)
+            )
+            (i32.load offset=8
+             (get_local $1)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $1)
+           )
+           (i32.load offset=4
+            (get_local $1)
+           )
+          )
+          (get_local $0)
+         )
+        )
+       )
+      )
+      (if (result i64)
+       (get_local $2)
+       (get_local $5)
+       (call $~lib/polyfills/bswap<u64>
+        (get_local $5)
+       )
+      )
+     )
+     (i64.const 578437695752307201)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 46)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (block $~lib/dataview/DataView#setUint64|inlined.0
+   (set_local $2
+    (get_global $std/dataview/view)
+   )
+   (set_local $0
+    (i32.const 8)
+   )
+   (set_local $5
+    (i64.const -2)
+   )
+   (set_local $1
+    (i32.const 1)
+   )
+   (i64.store offset=8
+    (block $~lib/dataview/DataView#checkedPtr<u64>|inlined.1 (result i32)
+     (if
+      (if (result i32)
+       (tee_local $3
+        (i32.lt_s
+         (get_local $0)
+         (i32.const 0)
+        )
+       )
+       (get_local $3)
+       (i32.gt_s
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (i32.load offset=8
+         (get_local $2)
+        )
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 120)
+        (i32.const 140)
+        (i32.const 8)
+       )
+       (unreachable)
+      )
+     )
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $2)
+       )
+       (i32.load offset=4
+        (get_local $2)
+       )
+      )
+      (get_local $0)
+     )
+    )
+    (if (result i64)
+     (get_local $1)
+     (get_local $5)
+     (call $~lib/polyfills/bswap<u64>
+      (get_local $5)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (i64.eq
+     (block $~lib/dataview/DataView#getInt64|inlined.1 (result i64)
+      (set_local $1
+       (get_global $std/dataview/view)
+      )
+      (set_local $0
+       (i32.const 8)
+      )
+      (set_local $2
+       (i32.const 1)
+      )
+      (set_local $5
+       (i64.load offset=8
+        (block $~lib/dataview/DataView#checkedPtr<i64>|inlined.2 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $3
+            (i32.lt_s
+             (get_local $0)
+             (i32.const 0)
+            )
+           )
+           (get_local $3)
+           (i32.gt_s
+            (i32.add
+             (get_local $0)
+             (i32.const 8)
+            )
+            (i32.load offset=8
+             (get_local $1)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $1)
+           )
+           (i32.load offset=4
+            (get_local $1)
+           )
+          )
+          (get_local $0)
+         )
+        )
+       )
+      )
+      (if (result i64)
+       (get_local $2)
+       (get_local $5)
+       (call $~lib/polyfills/bswap<i64>
+        (get_local $5)
+       )
+      )
+     )
+     (i64.const -2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 48)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (block $~lib/dataview/DataView#setFloat32|inlined.0
+   (set_local $2
+    (get_global $std/dataview/view)
+   )
+   (set_local $0
+    (i32.const 0)
+   )
+   (set_local $6
+    (f32.const 1.5)
+   )
+   (set_local $1
+    (i32.const 0)
+   )
+   (set_local $3
+    (i32.reinterpret/f32
+     (get_local $6)
+    )
+   )
+   (i32.store offset=8
+    (block $~lib/dataview/DataView#checkedPtr<f32>|inlined.0 (result i32)
+     (if
+      (if (result i32)
+       (tee_local $4
+        (i32.lt_s
+         (get_local $0)
+         (i32.const 0)
+        )
+       )
+       (get_local $4)
+       (i32.gt_s
+        (i32.add
+         (get_local $0)
+         (i32.const 4)
+        )
+        (i32.load offset=8
+         (get_local $2)
+        )
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 120)
+        (i32.const 140)
+        (i32.const 8)
+       )
+       (unreachable)
+      )
+     )
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $2)
+       )
+       (i32.load offset=4
+        (get_local $2)
+       )
+      )
+      (get_local $0)
+     )
+    )
+    (if (result i32)
+     (get_local $1)
+     (get_local $3)
+     (call $~lib/polyfills/bswap<u32>
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block $~lib/dataview/DataView#getUint32|inlined.2 (result i32)
+      (set_local $3
+       (get_global $std/dataview/view)
+      )
+      (set_local $1
+       (i32.const 0)
+      )
+      (set_local $0
+       (i32.const 0)
+      )
+      (set_local $2
+       (i32.load offset=8
+        (block $~lib/dataview/DataView#checkedPtr<u32>|inlined.3 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $2
+            (i32.lt_s
+             (get_local $1)
+             (i32.const 0)
+            )
+           )
+           (get_local $2)
+           (i32.gt_s
+            (i32.add
+             (get_local $1)
+             (i32.const 4)
+            )
+            (i32.load offset=8
+             (get_local $3)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $3)
+           )
+           (i32.load offset=4
+            (get_local $3)
+           )
+          )
+          (get_local $1)
+         )
+        )
+       )
+      )
+      (if (result i32)
+       (get_local $0)
+       (get_local $2)
+       (call $~lib/polyfills/bswap<u32>
+        (get_local $2)
+       )
+      )
+     )
+     (i32.const 1069547520)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 53)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (f32.eq
+     (block $~lib/dataview/DataView#getFloat32|inlined.0 (result f32)
+      (set_local $2
+       (get_global $std/dataview/view)
+      )
+      (set_local $0
+       (i32.const 0)
+      )
+      (set_local $1
+       (i32.const 0)
+      )
+      (set_local $3
+       (i32.load offset=8
+        (block $~lib/dataview/DataView#checkedPtr<f32>|inlined.1 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $3
+            (i32.lt_s
+             (get_local $0)
+             (i32.const 0)
+            )
+           )
+           (get_local $3)
+           (i32.gt_s
+            (i32.add
+             (get_local $0)
+             (i32.const 4)
+            )
+            (i32.load offset=8
+             (get_local $2)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $2)
+           )
+           (i32.load offset=4
+            (get_local $2)
+           )
+          )
+          (get_local $0)
+         )
+        )
+       )
+      )
+      (f32.reinterpret/i32
+       (if (result i32)
+        (get_local $1)
+        (get_local $3)
+        (call $~lib/polyfills/bswap<u32>
+         (get_local $3)
+        )
+       )
+      )
+     )
+     (f32.const 1.5)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 54)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (block $~lib/dataview/DataView#setFloat32|inlined.1
+   (set_local $3
+    (get_global $std/dataview/view)
+   )
+   (set_local $1
+    (i32.const 0)
+   )
+   (set_local $6
+    (f32.const -0.25)
+   )
+   (set_local $0
+    (i32.const 1)
+   )
+   (set_local $2
+    (i32.reinterpret/f32
+     (get_local $6)
+    )
+   )
+   (i32.store offset=8
+    (block $~lib/dataview/DataView#checkedPtr<f32>|inlined.2 (result i32)
+     (if
+      (if (result i32)
+       (tee_local $4
+        (i32.lt_s
+         (get_local $1)
+         (i32.const 0)
+        )
+       )
+       (get_local $4)
+       (i32.gt_s
+        (i32.add
+         (get_local $1)
+         (i32.const 4)
+        )
+        (i32.load offset=8
+         (get_local $3)
+        )
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 120)
+        (i32.const 140)
+        (i32.const 8)
+       )
+       (unreachable)
+      )
+     )
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $3)
+       )
+       (i32.load offset=4
+        (get_local $3)
+       )
+      )
+      (get_local $1)
+     )
+    )
+    (if (result i32)
+     (get_local $0)
+     (get_local $2)
+     (call $~lib/polyfills/bswap<u32>
+      (get_local $2)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (f32.eq
+     (block $~lib/dataview/DataView#getFloat32|inlined.1 (result f32)
+      (set_local $2
+       (get_global $std/dataview/view)
+      )
+      (set_local $0
+       (i32.const 0)
+      )
+      (set_local $1
+       (i32.const 1)
+      )
+      (set_local $3
+       (i32.load offset=8
+        (block $~lib/dataview/DataView#checkedPtr<f32>|inlined.3 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $3
+            (i32.lt_s
+             (get_local $0)
+             (i32.const 0)
+            )
+           )
+           (get_local $3)
+           (i32.gt_s
+            (i32.add
+             (get_local $0)
+             (i32.const 4)
+            )
+            (i32.load offset=8
+             (get_local $2)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $2)
+           )
+           (i32.load offset=4
+            (get_local $2)
+           )
+          )
+          (get_local $0)
+         )
+        )
+       )
+      )
+      (f32.reinterpret/i32
+       (if (result i32)
+        (get_local $1)
+        (get_local $3)
+        (call $~lib/polyfills/bswap<u32>
+         (get_local $3)
+        )
+       )
+      )
+     )
+     (f32.const -0.25)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 56)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (block $~lib/dataview/DataView#setFloat64|inlined.0
+   (set_local $3
+    (get_global $std/dataview/view)
+   )
+   (set_local $1
+    (i32.const 8)
+   )
+   (set_local $7
+    (f64.const 1.5)
+   )
+   (set_local $0
+    (i32.const 0)
+   )
+   (set_local $5
+    (i64.reinterpret/f64
+     (get_local $7)
+    )
+   )
+   (i64.store offset=8
+    (block $~lib/dataview/DataView#checkedPtr<f64>|inlined.0 (result i32)
+     (if
+      (if (result i32)
+       (tee_local $2
+        (i32.lt_s
+         (get_local $1)
+         (i32.const 0)
+        )
+       )
+       (get_local $2)
+       (i32.gt_s
+        (i32.add
+         (get_local $1)
+         (i32.const 8)
+        )
+        (i32.load offset=8
+         (get_local $3)
+        )
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 120)
+        (i32.const 140)
+        (i32.const 8)
+       )
+       (unreachable)
+      )
+     )
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $3)
+       )
+       (i32.load offset=4
+        (get_local $3)
+       )
+      )
+      (get_local $1)
+     )
+    )
+    (if (result i64)
+     (get_local $0)
+     (get_local $5)
+     (call $~lib/polyfills/bswap<u64>
+      (get_local $5)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (i64.eq
+     (block $~lib/dataview/DataView#getUint64|inlined.1 (result i64)
+      (set_local $0
+       (get_global $std/dataview/view)
+      )
+      (set_local $1
+       (i32.const 8)
+      )
+      (set_local $3
+       (i32.const 0)
+      )
+      (set_local $5
+       (i64.load offset=8
+        (block $~lib/dataview/DataView#checkedPtr<u64>|inlined.2 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $2
+            (i32.lt_s
+             (get_local $1)
+             (i32.const 0)
+            )
+           )
+           (get_local $2)
+           (i32.gt_s
+            (i32.add
+             (get_local $1)
+             (i32.const 8)
+            )
+            (i32.load offset=8
+             (get_local $0)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $0)
+           )
+           (i32.load offset=4
+            (get_local $0)
+           )
+          )
+          (get_local $1)
+         )
+        )
+       )
+      )
+      (if (result i64)
+       (get_local $3)
+       (get_local $5)
+       (call $~lib/polyfills/bswap<u64>
+        (get_local $5)
+       )
+      )
+     )
+     (i64.const 4609434218613702656)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 58)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (f64.eq
+     (block $~lib/dataview/DataView#getFloat64|inlined.0 (result f64)
+      (set_local $3
+       (get_global $std/dataview/view)
+      )
+      (set_local $1
+       (i32.const 8)
+      )
+      (set_local $0
+       (i32.const 0)
+      )
+      (set_local $5
+       (i64.load offset=8
+        (block $~lib/dataview/DataView#checkedPtr<f64>|inlined.1 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $2
+            (i32.lt_s
+             (get_local $1)
+             (i32.const 0)
+            )
+           )
+           (get_local $2)
+           (i32.gt_s
+            (i32.add
+             (get_local $1)
+             (i32.const 8)
+            )
+            (i32.load offset=8
+             (get_local $3)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $3)
+           )
+           (i32.load offset=4
+            (get_local $3)
+           )
+          )
+          (get_local $1)
+         )
+        )
+       )
+      )
+      (f64.reinterpret/i64
+       (if (result i64)
+        (get_local $0)
+        (get_local $5)
+        (call $~lib/polyfills/bswap<u64>
+         (get_local $5)
+        )
+       )
+      )
+     )
+     (f64.const 1.5)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 59)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (block $~lib/dataview/DataView#setFloat64|inlined.1
+   (set_local $0
+    (get_global $std/dataview/view)
+   )
+   (set_local $1
+    (i32.const 8)
+   )
+   (set_local $7
+    (get_global $~lib/math/NativeMath.PI)
+   )
+   (set_local $3
+    (i32.const 1)
+   )
+   (set_local $5
+    (i64.reinterpret/f64
+     (get_local $7)
+    )
+   )
+   (i64.store offset=8
+    (block $~lib/dataview/DataView#checkedPtr<f64>|inlined.2 (result i32)
+     (if
+      (if (result i32)
+       (tee_local $2
+        (i32.lt_s
+         (get_local $1)
+         (i32.const 0)
+        )
+       )
+       (get_local $2)
+       (i32.gt_s
+        (i32.add
+         (get_local $1)
+         (i32.const 8)
+        )
+        (i32.load offset=8
+         (get_local $0)
+        )
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 120)
+        (i32.const 140)
+        (i32.const 8)
+       )
+       (unreachable)
+      )
+     )
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $0)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (get_local $1)
+     )
+    )
+    (if (result i64)
+     (get_local $3)
+     (get_local $5)
+     (call $~lib/polyfills/bswap<u64>
+      (get_local $5)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (f64.eq
+     (block $~lib/dataview/DataView#getFloat64|inlined.1 (result f64)
+      (set_local $3
+       (get_global $std/dataview/view)
+      )
+      (set_local $1
+       (i32.const 8)
+      )
+      (set_local $0
+       (i32.const 1)
+      )
+      (set_local $5
+       (i64.load offset=8
+        (block $~lib/dataview/DataView#checkedPtr<f64>|inlined.3 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $2
+            (i32.lt_s
+             (get_local $1)
+             (i32.const 0)
+            )
+           )
+           (get_local $2)
+           (i32.gt_s
+            (i32.add
+             (get_local $1)
+             (i32.const 8)
+            )
+            (i32.load offset=8
+             (get_local $3)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $3)
+           )
+           (i32.load offset=4
+            (get_local $3)
+           )
+          )
+          (get_local $1)
+         )
+        )
+       )
+      )
+      (f64.reinterpret/i64
+       (if (result i64)
+        (get_local $0)
+        (get_local $5)
+        (call $~lib/polyfills/bswap<u64>
+         (get_local $5)
+        )
+       )
+      )
+     )
+     (get_global $~lib/math/NativeMath.PI)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 61)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/dataview/sub
+   (call $~lib/dataview/DataView#constructor
+    (i32.const 0)
+    (get_global $std/dataview/buffer)
+    (i32.const 4)
+    (i32.const 4)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.load offset=4
+      (get_global $std/dataview/sub)
+     )
+     (i32.const 4)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 66)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.load offset=8
+      (get_global $std/dataview/sub)
+     )
+     (i32.const 4)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 67)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (block $~lib/dataview/DataView#setInt32|inlined.1
+   (set_local $0
+    (get_global $std/dataview/sub)
+   )
+   (set_local $1
+    (i32.const 0)
+   )
+   (set_local $3
+    (i32.const 42)
+   )
+   (set_local $2
+    (i32.const 0)
+   )
+   (i32.store offset=8
+    (block $~lib/dataview/DataView#checkedPtr<i32>|inlined.3 (result i32)
+     (if
+      (if (result i32)
+       (tee_local $4
+        (i32.lt_s
+         (get_local $1)
+         (i32.const 0)
+        )
+       )
+       (get_local $4)
+       (i32.gt_s
+        (i32.add
+         (get_local $1)
+         (i32.const 4)
+        )
+        (i32.load offset=8
+         (get_local $0)
+        )
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 120)
+        (i32.const 140)
+        (i32.const 8)
+       )
+       (unreachable)
+      )
+     )
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $0)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (get_local $1)
+     )
+    )
+    (if (result i32)
+     (get_local $2)
+     (get_local $3)
+     (call $~lib/polyfills/bswap<i32>
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block $~lib/dataview/DataView#getInt32|inlined.2 (result i32)
+      (set_local $2
+       (get_global $std/dataview/view)
+      )
+      (set_local $3
+       (i32.const 4)
+      )
+      (set_local $1
+       (i32.const 0)
+      )
+      (set_local $0
+       (i32.load offset=8
+        (block $~lib/dataview/DataView#checkedPtr<i32>|inlined.4 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $0
+            (i32.lt_s
+             (get_local $3)
+             (i32.const 0)
+            )
+           )
+           (get_local $0)
+           (i32.gt_s
+            (i32.add
+             (get_local $3)
+             (i32.const 4)
+            )
+            (i32.load offset=8
+             (get_local $2)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $2)
+           )
+           (i32.load offset=4
+            (get_local $2)
+           )
+          )
+          (get_local $3)
+         )
+        )
+       )
+      )
+      (if (result i32)
+       (get_local $1)
+       (get_local $0)
+       (call $~lib/polyfills/bswap<i32>
+        (get_local $0)
+       )
+      )
+     )
+     (i32.const 42)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 69)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/dataview/sub
+   (block (result i32)
+    (set_global $~argc
+     (i32.const 2)
+    )
+    (call $~lib/dataview/DataView#constructor|trampoline
+     (i32.const 0)
+     (get_global $std/dataview/buffer)
+     (i32.const 12)
+     (i32.const 0)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.load offset=8
+      (get_global $std/dataview/sub)
+     )
+     (i32.const 4)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 71)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block $~lib/dataview/DataView#getInt32|inlined.3 (result i32)
+      (set_local $0
+       (get_global $std/dataview/sub)
+      )
+      (set_local $1
+       (i32.const 0)
+      )
+      (set_local $3
+       (i32.const 0)
+      )
+      (set_local $2
+       (i32.load offset=8
+        (block $~lib/dataview/DataView#checkedPtr<i32>|inlined.5 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $2
+            (i32.lt_s
+             (get_local $1)
+             (i32.const 0)
+            )
+           )
+           (get_local $2)
+           (i32.gt_s
+            (i32.add
+             (get_local $1)
+             (i32.const 4)
+            )
+            (i32.load offset=8
+             (get_local $0)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $0)
+           )
+           (i32.load offset=4
+            (get_local $0)
+           )
+          )
+          (get_local $1)
+         )
+        )
+       )
+      )
+      (if (result i32)
+       (get_local $3)
+       (get_local $2)
+       (call $~lib/polyfills/bswap<i32>
+        (get_local $2)
+       )
+      )
+     )
+     (block $~lib/dataview/DataView#getInt32|inlined.4 (result i32)
+      (set_local $2
+       (get_global $std/dataview/view)
+      )
+      (set_local $3
+       (i32.const 12)
+      )
+      (set_local $1
+       (i32.const 0)
+      )
+      (set_local $0
+       (i32.load offset=8
+        (block $~lib/dataview/DataView#checkedPtr<i32>|inlined.6 (result i32)
+         (if
+          (if (result i32)
+           (tee_local $0
+            (i32.lt_s
+             (get_local $3)
+             (i32.const 0)
+            )
+           )
+           (get_local $0)
+           (i32.gt_s
+            (i32.add
+             (get_local $3)
+             (i32.const 4)
+            )
+            (i32.load offset=8
+             (get_local $2)
+            )
+           )
+          )
+          (block
+           (call $~lib/env/abort
+            (i32.const 0)
+            (i32.const 120)
+            (i32.const 140)
+            (i32.const 8)
+           )
+           (unreachable)
+          )
+         )
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $2)
+           )
+           (i32.load offset=4
+            (get_local $2)
+           )
+          )
+          (get_local $3)
+         )
+        )
+       )
+      )
+      (if (result i32)
+       (get_local $1)
+       (get_local $0)
+       (call $~lib/polyfills/bswap<i32>
+        (get_local $0)
+       )
+      )
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 72)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block $~lib/dataview/DataView#getInt32|inlined.5 (result i32)
+      (set_local $0
+       (get_global $std/dataview/view)
+      )
+      (set_local $1
+       (i32.const 4)
+      )
+      (set_local $3
+       (i32.const 0)
+      )
+      (set_local $2
+       (i32.load offset=8
+        (block $~lib/dataview/DataView#checkedPtr<i32>|inlined.7 (result i32)
+         (i32.add
+          (i32.add
+           (i32.load
+            (get_local $0)
+           )
+           (i32.load offset=4
+            (get_local $0)
+           )
+          )
+          (get_local $1)
+         )
+        )
+       )
+      )
+      (if (result i32)
+       (get_local $3)
+       (get_local $2)
+       (call $~lib/polyfills/bswap<i32>
+        (get_local $2)
+       )
+      )
+     )
+     (i32.const 42)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 76)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.and
+      (block $~lib/dataview/DataView#getUint16|inlined.2 (result i32)
+       (set_local $2
+        (get_global $std/dataview/view)
+       )
+       (set_local $3
+        (i32.const 6)
+       )
+       (set_local $1
+        (i32.const 0)
+       )
+       (set_local $0
+        (i32.load16_u offset=8
+         (block $~lib/dataview/DataView#checkedPtr<u16>|inlined.3 (result i32)
+          (i32.add
+           (i32.add
+            (i32.load
+             (get_local $2)
+            )
+            (i32.load offset=4
+             (get_local $2)
+            )
+           )
+           (get_local $3)
+          )
+         )
+        )
+       )
+       (if (result i32)
+        (get_local $1)
+        (get_local $0)
+        (call $~lib/polyfills/bswap<u16>
+         (get_local $0)
+        )
+       )
+      )
+      (i32.const 65535)
+     )
+     (i32.const 42)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 160)
+     (i32.const 77)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+ )
+)
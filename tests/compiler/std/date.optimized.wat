@@ -0,0 +1,5935 @@
+(module
+ (type $iIi (func (param i32 i64) (result i32)))
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $ii (func (param i32) (result i32)))
+ (type $iI (func (param i32) (result i64)))
+ (type $II (func (param i64) (result i64)))
+ (type $iii (func (param i32 i32) (result i32)))
+ (type $iiiv (func (param i32 i32 i32)))
+ (type $iiii (func (param i32 i32 i32) (result i32)))
+ (type $iiiiiv (func (param i32 i32 i32 i32 i32)))
+ (type $iiiiiiiI (func (param i32 i32 i32 i32 i32 i32 i32) (result i64)))
+ (type $iiiI (func (param i32 i32 i32) (result i64)))
+ (type $iiiiII (func (param i32 i32 i32 i32 i64) (result i64)))
+ (type $iII (func (param i32 i64) (result i64)))
+ (type $F (func (result f64)))
+ (type $v (func))
+ (type $FUNCSIG$i (func (result i32)))
+ (type $FUNCSIG$viii (func (param i32 i32 i32)))
+ (type $FUNCSIG$iii (func (param i32 i32) (result i32)))
+ (type $FUNCSIG$iiii (func (param i32 i32 i32) (result i32)))
+ (type $FUNCSIG$ji (func (param i32) (result i64)))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (import "Date" "now" (func $~lib/env/Date_now (result f64)))
+ (import "performance" "now" (func $~lib/env/performance_now (result f64)))
+ (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
+ (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $std/date/date (mut i32) (i32.const 0))
+ (global $std/date/time (mut i64) (i64.const 0))
+ (global $~argc (mut i32) (i32.const 0))
+ (global $std/date/start (mut f64) (f64.const 0))
+ (memory $0 1)
+ (data (i32.const 8) "\0c\00\00\00~\00l\00i\00b\00/\00d\00a\00t\00e\00.\00t\00s")
+ (data (i32.const 40) "\0b\00\00\00s\00t\00d\00/\00d\00a\00t\00e\00.\00t\00s")
+ (data (i32.const 72) "\01\00\00\000")
+ (data (i32.const 80) "(\00\00\00\00\00\00\00\01\00\00\00\n\00\00\00d\00\00\00\e8\03\00\00\10\'\00\00\a0\86\01\00@B\0f\00\80\96\98\00\00\e1\f5\05\00\ca\9a;")
+ (data (i32.const 144) "P\00\00\00\n")
+ (data (i32.const 152) "\17\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00s\00t\00r\00i\00n\00g\00.\00t\00s")
+ (data (i32.const 208) "\90\01\00\00\00\00\00\000\000\000\001\000\002\000\003\000\004\000\005\000\006\000\007\000\008\000\009\001\000\001\001\001\002\001\003\001\004\001\005\001\006\001\007\001\008\001\009\002\000\002\001\002\002\002\003\002\004\002\005\002\006\002\007\002\008\002\009\003\000\003\001\003\002\003\003\003\004\003\005\003\006\003\007\003\008\003\009\004\000\004\001\004\002\004\003\004\004\004\005\004\006\004\007\004\008\004\009\005\000\005\001\005\002\005\003\005\004\005\005\005\006\005\007\005\008\005\009\006\000\006\001\006\002\006\003\006\004\006\005\006\006\006\007\006\008\006\009\007\000\007\001\007\002\007\003\007\004\007\005\007\006\007\007\007\008\007\009\008\000\008\001\008\002\008\003\008\004\008\005\008\006\008\007\008\008\008\009\009\000\009\001\009\002\009\003\009\004\009\005\009\006\009\007\009\008\009\009")
+ (data (i32.const 720) "\d0\00\00\00d")
+ (data (i32.const 728) "\0e\00\00\00~\00l\00i\00b\00/\00s\00t\00r\00i\00n\00g\00.\00t\00s")
+ (data (i32.const 760) "\01\00\00\00-")
+ (data (i32.const 768) "\01\00\00\00+")
+ (data (i32.const 776) "\04\00\00\00n\00u\00l\00l")
+ (data (i32.const 800) "\01\00\00\00T")
+ (data (i32.const 808) "\01\00\00\00:")
+ (data (i32.const 816) "\01\00\00\00.")
+ (data (i32.const 824) "\01\00\00\00Z")
+ (data (i32.const 832) "\18\00\00\001\009\007\000\00-\000\001\00-\000\001\00T\000\000\00:\000\000\00:\000\000\00.\000\000\000\00Z")
+ (data (i32.const 888) "\15\00\00\00S\00u\00n\00M\00o\00n\00T\00u\00e\00W\00e\00d\00T\00h\00u\00F\00r\00i\00S\00a\00t")
+ (data (i32.const 936) "$\00\00\00J\00a\00n\00F\00e\00b\00M\00a\00r\00A\00p\00r\00M\00a\00y\00J\00u\00n\00J\00u\00l\00A\00u\00g\00S\00e\00p\00O\00c\00t\00N\00o\00v\00D\00e\00c")
+ (data (i32.const 1016) "\02\00\00\00,\00 ")
+ (data (i32.const 1024) "\01\00\00\00 ")
+ (data (i32.const 1032) "\04\00\00\00 \00G\00M\00T")
+ (data (i32.const 1048) "\1d\00\00\00T\00h\00u\00,\00 \000\001\00 \00J\00a\00n\00 \001\009\007\000\00 \000\000\00:\000\000\00:\000\000\00 \00G\00M\00T")
+ (data (i32.const 1112) "\18\00\00\002\000\002\000\00-\000\002\00-\002\009\00T\001\003\00:\000\005\00:\000\009\00.\000\004\002\00Z")
+ (data (i32.const 1168) "\18\00\00\001\009\006\009\00-\001\002\00-\003\001\00T\002\003\00:\005\009\00:\005\009\00.\009\009\009\00Z")
+ (data (i32.const 1224) "\1b\00\00\00-\000\000\000\000\000\001\00-\000\001\00-\000\001\00T\000\000\00:\000\000\00:\000\000\00.\000\000\000\00Z")
+ (data (i32.const 1288) "\1e\00\00\00F\00r\00i\00,\00 \000\001\00 \00J\00a\00n\00 \00-\000\000\000\001\00 \000\000\00:\000\000\00:\000\000\00 \00G\00M\00T")
+ (data (i32.const 1352) "\1b\00\00\00+\002\007\005\007\006\000\00-\000\009\00-\001\003\00T\000\000\00:\000\000\00:\000\000\00.\000\000\000\00Z")
+ (data (i32.const 1416) "\18\00\00\002\000\002\000\00-\000\003\00-\000\002\00T\001\002\00:\000\000\00:\000\000\00.\000\000\000\00Z")
+ (data (i32.const 1472) "\18\00\00\002\000\002\000\00-\000\002\00-\002\009\00T\001\002\00:\000\000\00:\000\000\00.\000\000\000\00Z")
+ (data (i32.const 1528) "\18\00\00\002\000\002\000\00-\000\002\00-\002\008\00T\002\003\00:\000\000\00:\000\000\00.\000\000\000\00Z")
+ (data (i32.const 1584) "\18\00\00\002\000\002\000\00-\000\002\00-\002\009\00T\000\000\00:\000\001\00:\000\000\00.\000\000\000\00Z")
+ (data (i32.const 1640) "\18\00\00\002\000\002\000\00-\000\002\00-\002\009\00T\000\000\00:\000\001\00:\003\001\00.\005\000\000\00Z")
+ (data (i32.const 1696) "\18\00\00\002\000\002\001\00-\000\003\00-\000\001\00T\000\000\00:\000\001\00:\003\001\00.\005\000\000\00Z")
+ (data (i32.const 1752) "\04\00\00\002\000\002\000")
+ (data (i32.const 1768) "\07\00\00\002\000\002\000\00-\000\002")
+ (data (i32.const 1792) "\n\00\00\002\000\002\000\00-\000\002\00-\002\009")
+ (data (i32.const 1816) "\10\00\00\002\000\002\000\00-\000\002\00-\002\009\00T\001\003\00:\000\005")
+ (data (i32.const 1856) "\14\00\00\002\000\002\000\00-\000\002\00-\002\009\00T\001\003\00:\000\005\00:\000\009\00Z")
+ (data (i32.const 1904) "\19\00\00\002\000\002\000\00-\000\002\00-\002\009\00T\001\003\00:\000\005\00:\000\009\00.\000\004\002\009\00Z")
+ (data (i32.const 1960) "\1d\00\00\002\000\002\000\00-\000\002\00-\002\009\00T\001\004\00:\003\005\00:\000\009\00.\000\004\002\00+\000\001\00:\003\000")
+ (data (i32.const 2024) "\1d\00\00\002\000\002\000\00-\000\002\00-\002\009\00T\001\002\00:\000\000\00:\000\009\00.\000\004\002\00-\000\001\00:\000\005")
+ (data (i32.const 2088) "\10\00\00\002\000\002\000\00-\000\002\00-\002\009\00T\002\004\00:\000\000")
+ (export "memory" (memory $0))
+ (start $start)
+ (func $~lib/allocator/arena/__memory_allocate (; 3 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 1073741824)
+   )
+   (unreachable)
+  )
+  (if
+   (i32.gt_u
+    (tee_local $2
+     (i32.and
+      (i32.add
+       (i32.add
+        (tee_local $1
+         (get_global $~lib/allocator/arena/offset)
+        )
+        (select
+         (get_local $0)
+         (i32.const 1)
+         (i32.gt_u
+          (get_local $0)
+          (i32.const 1)
+         )
+        )
+       )
+       (i32.const 7)
+      )
+      (i32.const -8)
+     )
+    )
+    (i32.shl
+     (tee_local $3
+      (current_memory)
+     )
+     (i32.const 16)
+    )
+   )
+   (if
+    (i32.lt_s
+     (grow_memory
+      (select
+       (get_local $3)
+       (tee_local $0
+        (i32.shr_u
+         (i32.and
+          (i32.add
+           (i32.sub
+            (get_local $2)
+            (get_local $1)
+           )
+           (i32.const 65535)
+          )
+          (i32.const -65536)
+         )
+         (i32.const 16)
+        )
+       )
+       (i32.gt_s
+        (get_local $3)
+        (get_local $0)
+       )
+      )
+     )
+     (i32.const 0)
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_local $2)
+  )
+  (get_local $1)
+ )
+ (func $~lib/memory/memory.allocate (; 4 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (call $~lib/allocator/arena/__memory_allocate
+   (i32.const 8)
+  )
+ )
+ (func $~lib/date/Date#constructor (; 5 ;) (; has Stack IR ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (i64.store
+     (tee_local $2
+      (call $~lib/memory/memory.allocate)
+     )
+     (i64.const 0)
+    )
+    (set_local $0
+     (get_local $2)
+    )
+   )
+  )
+  (set_local $3
+   (get_local $0)
+  )
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i64.lt_s
+      (get_local $1)
+      (i64.const -8640000000000000)
+     )
+    )
+   )
+   (set_local $2
+    (i64.gt_s
+     (get_local $1)
+     (i64.const 8640000000000000)
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 70)
+     (i32.const 45)
+    )
+    (unreachable)
+   )
+  )
+  (i64.store
+   (get_local $3)
+   (get_local $1)
+  )
+  (get_local $0)
+ )
+ (func $~lib/date/Date#getTime (; 6 ;) (; has Stack IR ;) (type $iI) (param $0 i32) (result i64)
+  (i64.load
+   (get_local $0)
+  )
+ )
+ (func $~lib/date/civilFromDays (; 7 ;) (; has Stack IR ;) (type $II) (param $0 i64) (result i64)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i64)
+  (set_local $4
+   (if (result i64)
+    (i64.ge_s
+     (tee_local $0
+      (i64.add
+       (get_local $0)
+       (i64.const 719468)
+      )
+     )
+     (i64.const 0)
+    )
+    (get_local $0)
+    (i64.sub
+     (get_local $0)
+     (i64.const 146096)
+    )
+   )
+  )
+  (set_local $2
+   (i32.div_s
+    (i32.sub
+     (i32.add
+      (i32.sub
+       (tee_local $1
+        (i32.wrap/i64
+         (i64.sub
+          (get_local $0)
+          (i64.mul
+           (tee_local $0
+            (i64.div_s
+             (get_local $4)
+             (i64.const 146097)
+            )
+           )
+           (i64.const 146097)
+          )
+         )
+        )
+       )
+       (i32.div_s
+        (get_local $1)
+        (i32.const 1460)
+       )
+      )
+      (i32.div_s
+       (get_local $1)
+       (i32.const 36524)
+      )
+     )
+     (i32.div_s
+      (get_local $1)
+      (i32.const 146096)
+     )
+    )
+    (i32.const 365)
+   )
+  )
+  (set_local $1
+   (i32.div_s
+    (i32.add
+     (i32.mul
+      (tee_local $3
+       (i32.sub
+        (get_local $1)
+        (i32.sub
+         (i32.add
+          (i32.mul
+           (get_local $2)
+           (i32.const 365)
+          )
+          (i32.div_s
+           (get_local $2)
+           (i32.const 4)
+          )
+         )
+         (i32.div_s
+          (get_local $2)
+          (i32.const 100)
+         )
+        )
+       )
+      )
+      (i32.const 5)
+     )
+     (i32.const 2)
+    )
+    (i32.const 153)
+   )
+  )
+  (set_local $3
+   (i32.add
+    (i32.sub
+     (get_local $3)
+     (i32.div_s
+      (i32.add
+       (i32.mul
+        (get_local $1)
+        (i32.const 153)
+       )
+       (i32.const 2)
+      )
+      (i32.const 5)
+     )
+    )
+    (i32.const 1)
+   )
+  )
+  (i64.or
+   (i64.or
+    (i64.shl
+     (i64.add
+      (i64.add
+       (i64.extend_s/i32
+        (get_local $2)
+       )
+       (i64.mul
+        (get_local $0)
+        (i64.const 400)
+       )
+      )
+      (i64.extend_u/i32
+       (i32.le_s
+        (tee_local $1
+         (if (result i32)
+          (i32.lt_s
+           (get_local $1)
+           (i32.const 10)
+          )
+          (i32.add
+           (get_local $1)
+           (i32.const 3)
+          )
+          (i32.sub
+           (get_local $1)
+           (i32.const 9)
+          )
+         )
+        )
+        (i32.const 2)
+       )
+      )
+     )
+     (i64.const 9)
+    )
+    (i64.extend_s/i32
+     (i32.shl
+      (get_local $1)
+      (i32.const 5)
+     )
+    )
+   )
+   (i64.extend_s/i32
+    (get_local $3)
+   )
+  )
+ )
+ (func $~lib/date/Date#getUTCFullYear (; 8 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i64)
+  (if
+   (i64.lt_s
+    (tee_local $1
+     (i64.load
+      (get_local $0)
+     )
+    )
+    (i64.const 0)
+   )
+   (set_local $1
+    (i64.add
+     (i64.sub
+      (get_local $1)
+      (i64.const 86400000)
+     )
+     (i64.const 1)
+    )
+   )
+  )
+  (i32.wrap/i64
+   (i64.shr_s
+    (call $~lib/date/civilFromDays
+     (i64.div_s
+      (get_local $1)
+      (i64.const 86400000)
+     )
+    )
+    (i64.const 9)
+   )
+  )
+ )
+ (func $~lib/date/Date#getUTCMonth (; 9 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i64)
+  (if
+   (i64.lt_s
+    (tee_local $1
+     (i64.load
+      (get_local $0)
+     )
+    )
+    (i64.const 0)
+   )
+   (set_local $1
+    (i64.add
+     (i64.sub
+      (get_local $1)
+      (i64.const 86400000)
+     )
+     (i64.const 1)
+    )
+   )
+  )
+  (i32.sub
+   (i32.wrap/i64
+    (i64.and
+     (i64.shr_s
+      (call $~lib/date/civilFromDays
+       (i64.div_s
+        (get_local $1)
+        (i64.const 86400000)
+       )
+      )
+      (i64.const 5)
+     )
+     (i64.const 15)
+    )
+   )
+   (i32.const 1)
+  )
+ )
+ (func $~lib/date/Date#getUTCDate (; 10 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i64)
+  (if
+   (i64.lt_s
+    (tee_local $1
+     (i64.load
+      (get_local $0)
+     )
+    )
+    (i64.const 0)
+   )
+   (set_local $1
+    (i64.add
+     (i64.sub
+      (get_local $1)
+      (i64.const 86400000)
+     )
+     (i64.const 1)
+    )
+   )
+  )
+  (i32.wrap/i64
+   (i64.and
+    (call $~lib/date/civilFromDays
+     (i64.div_s
+      (get_local $1)
+      (i64.const 86400000)
+     )
+    )
+    (i64.const 31)
+   )
+  )
+ )
+ (func $~lib/date/Date#getUTCDay (; 11 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i64)
+  (if
+   (i64.lt_s
+    (tee_local $1
+     (i64.load
+      (get_local $0)
+     )
+    )
+    (i64.const 0)
+   )
+   (set_local $1
+    (i64.add
+     (i64.sub
+      (get_local $1)
+      (i64.const 86400000)
+     )
+     (i64.const 1)
+    )
+   )
+  )
+  (if
+   (i32.lt_s
+    (tee_local $0
+     (i32.wrap/i64
+      (i64.rem_s
+       (i64.add
+        (i64.div_s
+         (get_local $1)
+         (i64.const 86400000)
+        )
+        (i64.const 4)
+       )
+       (i64.const 7)
+      )
+     )
+    )
+    (i32.const 0)
+   )
+   (set_local $0
+    (i32.add
+     (get_local $0)
+     (i32.const 7)
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/itoa/decimalCountU32 (; 12 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (i32.const 144)
+     )
+     (i32.shl
+      (tee_local $1
+       (i32.shr_u
+        (i32.mul
+         (i32.sub
+          (i32.const 32)
+          (i32.clz
+           (get_local $0)
+          )
+         )
+         (i32.const 1233)
+        )
+        (i32.const 12)
+       )
+      )
+      (i32.const 2)
+     )
+    )
+   )
+  )
+  (i32.add
+   (i32.sub
+    (get_local $1)
+    (i32.lt_u
+     (get_local $0)
+     (get_local $2)
+    )
+   )
+   (i32.const 1)
+  )
+ )
+ (func $~lib/internal/string/allocateUnsafe (; 13 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (tee_local $1
+    (i32.gt_s
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (set_local $1
+    (i32.le_s
+     (get_local $0)
+     (i32.const 536870910)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 152)
+     (i32.const 28)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $1
+    (call $~lib/allocator/arena/__memory_allocate
+     (i32.add
+      (i32.shl
+       (get_local $0)
+       (i32.const 1)
+      )
+      (i32.const 4)
+     )
+    )
+   )
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/itoa/utoa32_lut (; 14 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load
+    (i32.const 720)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.ge_u
+     (get_local $1)
+     (i32.const 10000)
+    )
+    (block
+     (set_local $4
+      (i32.rem_u
+       (get_local $1)
+       (i32.const 10000)
+      )
+     )
+     (set_local $1
+      (i32.div_u
+       (get_local $1)
+       (i32.const 10000)
+      )
+     )
+     (i64.store offset=4
+      (i32.add
+       (get_local $0)
+       (i32.shl
+        (tee_local $2
+         (i32.sub
+          (get_local $2)
+          (i32.const 4)
+         )
+        )
+        (i32.const 1)
+       )
+      )
+      (i64.or
+       (i64.load32_u offset=8
+        (i32.add
+         (get_local $3)
+         (i32.shl
+          (i32.div_u
+           (get_local $4)
+           (i32.const 100)
+          )
+          (i32.const 2)
+         )
+        )
+       )
+       (i64.shl
+        (i64.load32_u offset=8
+         (i32.add
+          (get_local $3)
+          (i32.shl
+           (i32.rem_u
+            (get_local $4)
+            (i32.const 100)
+           )
+           (i32.const 2)
+          )
+         )
+        )
+        (i64.const 32)
+       )
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (i32.const 100)
+   )
+   (block
+    (set_local $4
+     (i32.rem_u
+      (get_local $1)
+      (i32.const 100)
+     )
+    )
+    (set_local $1
+     (i32.div_u
+      (get_local $1)
+      (i32.const 100)
+     )
+    )
+    (i32.store offset=4
+     (i32.add
+      (get_local $0)
+      (i32.shl
+       (tee_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 2)
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (i32.load offset=8
+      (i32.add
+       (get_local $3)
+       (i32.shl
+        (get_local $4)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (i32.const 10)
+   )
+   (i32.store offset=4
+    (i32.add
+     (get_local $0)
+     (i32.shl
+      (i32.sub
+       (get_local $2)
+       (i32.const 2)
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.load offset=8
+     (i32.add
+      (get_local $3)
+      (i32.shl
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+    )
+   )
+   (i32.store16 offset=4
+    (i32.add
+     (get_local $0)
+     (i32.shl
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.add
+     (get_local $1)
+     (i32.const 48)
+    )
+   )
+  )
+ )
+ (func $~lib/internal/itoa/itoa32 (; 15 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return
+    (i32.const 72)
+   )
+  )
+  (if
+   (tee_local $1
+    (i32.lt_s
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (set_local $0
+    (i32.sub
+     (i32.const 0)
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/internal/itoa/utoa32_lut
+   (tee_local $2
+    (call $~lib/internal/string/allocateUnsafe
+     (tee_local $3
+      (i32.add
+       (call $~lib/internal/itoa/decimalCountU32
+        (get_local $0)
+       )
+       (get_local $1)
+      )
+     )
+    )
+   )
+   (get_local $0)
+   (get_local $3)
+  )
+  (if
+   (get_local $1)
+   (i32.store16 offset=4
+    (get_local $2)
+    (i32.const 45)
+   )
+  )
+  (get_local $2)
+ )
+ (func $~lib/internal/itoa/itoa<i32> (; 16 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/internal/itoa/itoa32
+   (get_local $0)
+  )
+ )
+ (func $~lib/internal/memory/memcpy (; 17 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (loop $continue|0
+   (if
+    (tee_local $3
+     (if (result i32)
+      (get_local $2)
+      (i32.and
+       (get_local $1)
+       (i32.const 3)
+      )
+      (get_local $2)
+     )
+    )
+    (block
+     (set_local $0
+      (i32.add
+       (tee_local $4
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (tee_local $3
+        (get_local $1)
+       )
+       (i32.const 1)
+      )
+     )
+     (i32.store8
+      (get_local $4)
+      (i32.load8_u
+       (get_local $3)
+      )
+     )
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (get_local $0)
+     (i32.const 3)
+    )
+   )
+   (block
+    (loop $continue|1
+     (if
+      (i32.ge_u
+       (get_local $2)
+       (i32.const 16)
+      )
+      (block
+       (i32.store
+        (get_local $0)
+        (i32.load
+         (get_local $1)
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 4)
+        )
+        (i32.load
+         (i32.add
+          (get_local $1)
+          (i32.const 4)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (i32.load
+         (i32.add
+          (get_local $1)
+          (i32.const 8)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 12)
+        )
+        (i32.load
+         (i32.add
+          (get_local $1)
+          (i32.const 12)
+         )
+        )
+       )
+       (set_local $1
+        (i32.add
+         (get_local $1)
+         (i32.const 16)
+        )
+       )
+       (set_local $0
+        (i32.add
+         (get_local $0)
+         (i32.const 16)
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 16)
+        )
+       )
+       (br $continue|1)
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 8)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+       (i32.load
+        (i32.add
+         (get_local $1)
+         (i32.const 4)
+        )
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 8)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 8)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 4)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 4)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 2)
+     )
+     (block
+      (i32.store16
+       (get_local $0)
+       (i32.load16_u
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 2)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 1)
+     )
+     (block
+      (set_local $3
+       (get_local $1)
+      )
+      (i32.store8
+       (get_local $0)
+       (i32.load8_u
+        (get_local $1)
+       )
+      )
+     )
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $2)
+    (i32.const 32)
+   )
+   (block $break|2
+    (block $case2|2
+     (block $case1|2
+      (if
+       (i32.ne
+        (tee_local $3
+         (i32.and
+          (get_local $0)
+          (i32.const 3)
+         )
+        )
+        (i32.const 1)
+       )
+       (block
+        (br_if $case1|2
+         (i32.eq
+          (get_local $3)
+          (i32.const 2)
+         )
+        )
+        (br_if $case2|2
+         (i32.eq
+          (get_local $3)
+          (i32.const 3)
+         )
+        )
+        (br $break|2)
+       )
+      )
+      (set_local $5
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store8
+       (get_local $0)
+       (i32.load8_u
+        (tee_local $3
+         (get_local $1)
+        )
+       )
+      )
+      (set_local $0
+       (tee_local $1
+        (i32.add
+         (get_local $0)
+         (i32.const 1)
+        )
+       )
+      )
+      (i32.store8
+       (get_local $1)
+       (i32.load8_u
+        (tee_local $1
+         (i32.add
+          (get_local $3)
+          (i32.const 1)
+         )
+        )
+       )
+      )
+      (set_local $0
+       (i32.add
+        (tee_local $4
+         (i32.add
+          (get_local $0)
+          (i32.const 1)
+         )
+        )
+        (i32.const 1)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (tee_local $3
+         (i32.add
+          (get_local $1)
+          (i32.const 1)
+         )
+        )
+        (i32.const 1)
+       )
+      )
+      (i32.store8
+       (get_local $4)
+       (i32.load8_u
+        (get_local $3)
+       )
+      )
+      (set_local $2
+       (i32.sub
+        (get_local $2)
+        (i32.const 3)
+       )
+      )
+      (loop $continue|3
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 17)
+        )
+        (block
+         (i32.store
+          (get_local $0)
+          (i32.or
+           (i32.shr_u
+            (get_local $5)
+            (i32.const 24)
+           )
+           (i32.shl
+            (tee_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 1)
+              )
+             )
+            )
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 4)
+          )
+          (i32.or
+           (i32.shr_u
+            (get_local $3)
+            (i32.const 24)
+           )
+           (i32.shl
+            (tee_local $5
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 5)
+              )
+             )
+            )
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 8)
+          )
+          (i32.or
+           (i32.shr_u
+            (get_local $5)
+            (i32.const 24)
+           )
+           (i32.shl
+            (tee_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 9)
+              )
+             )
+            )
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 12)
+          )
+          (i32.or
+           (i32.shr_u
+            (get_local $3)
+            (i32.const 24)
+           )
+           (i32.shl
+            (tee_local $5
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 13)
+              )
+             )
+            )
+            (i32.const 8)
+           )
+          )
+         )
+         (set_local $1
+          (i32.add
+           (get_local $1)
+           (i32.const 16)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (get_local $0)
+           (i32.const 16)
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 16)
+          )
+         )
+         (br $continue|3)
+        )
+       )
+      )
+      (br $break|2)
+     )
+     (set_local $5
+      (i32.load
+       (get_local $1)
+      )
+     )
+     (i32.store8
+      (get_local $0)
+      (i32.load8_u
+       (get_local $1)
+      )
+     )
+     (set_local $0
+      (i32.add
+       (tee_local $4
+        (i32.add
+         (get_local $0)
+         (i32.const 1)
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (tee_local $3
+        (i32.add
+         (get_local $1)
+         (i32.const 1)
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (i32.store8
+      (get_local $4)
+      (i32.load8_u
+       (get_local $3)
+      )
+     )
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 2)
+      )
+     )
+     (loop $continue|4
+      (if
+       (i32.ge_u
+        (get_local $2)
+        (i32.const 18)
+       )
+       (block
+        (i32.store
+         (get_local $0)
+         (i32.or
+          (i32.shr_u
+           (get_local $5)
+           (i32.const 16)
+          )
+          (i32.shl
+           (tee_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 2)
+             )
+            )
+           )
+           (i32.const 16)
+          )
+         )
+        )
+        (i32.store
+         (i32.add
+          (get_local $0)
+          (i32.const 4)
+         )
+         (i32.or
+          (i32.shr_u
+           (get_local $3)
+           (i32.const 16)
+          )
+          (i32.shl
+           (tee_local $5
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 6)
+             )
+            )
+           )
+           (i32.const 16)
+          )
+         )
+        )
+        (i32.store
+         (i32.add
+          (get_local $0)
+          (i32.const 8)
+         )
+         (i32.or
+          (i32.shr_u
+           (get_local $5)
+           (i32.const 16)
+          )
+          (i32.shl
+           (tee_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 10)
+             )
+            )
+           )
+           (i32.const 16)
+          )
+         )
+        )
+        (i32.store
+         (i32.add
+          (get_local $0)
+          (i32.const 12)
+         )
+         (i32.or
+          (i32.shr_u
+           (get_local $3)
+           (i32.const 16)
+          )
+          (i32.shl
+           (tee_local $5
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 14)
+             )
+            )
+           )
+           (i32.const 16)
+          )
+         )
+        )
+        (set_local $1
+         (i32.add
+          (get_local $1)
+          (i32.const 16)
+         )
+        )
+        (set_local $0
+         (i32.add
+          (get_local $0)
+          (i32.const 16)
+         )
+        )
+        (set_local $2
+         (i32.sub
+          (get_local $2)
+          (i32.const 16)
+         )
+        )
+        (br $continue|4)
+       )
+      )
+     )
+     (br $break|2)
+    )
+    (set_local $5
+     (i32.load
+      (get_local $1)
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (get_local $1)
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+    (set_local $2
+     (i32.sub
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (loop $continue|5
+     (if
+      (i32.ge_u
+       (get_local $2)
+       (i32.const 19)
+      )
+      (block
+       (i32.store
+        (get_local $0)
+        (i32.or
+         (i32.shr_u
+          (get_local $5)
+          (i32.const 8)
+         )
+         (i32.shl
+          (tee_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 3)
+            )
+           )
+          )
+          (i32.const 24)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 4)
+        )
+        (i32.or
+         (i32.shr_u
+          (get_local $3)
+          (i32.const 8)
+         )
+         (i32.shl
+          (tee_local $5
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 7)
+            )
+           )
+          )
+          (i32.const 24)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (i32.or
+         (i32.shr_u
+          (get_local $5)
+          (i32.const 8)
+         )
+         (i32.shl
+          (tee_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 11)
+            )
+           )
+          )
+          (i32.const 24)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 12)
+        )
+        (i32.or
+         (i32.shr_u
+          (get_local $3)
+          (i32.const 8)
+         )
+         (i32.shl
+          (tee_local $5
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 15)
+            )
+           )
+          )
+          (i32.const 24)
+         )
+        )
+       )
+       (set_local $1
+        (i32.add
+         (get_local $1)
+         (i32.const 16)
+        )
+       )
+       (set_local $0
+        (i32.add
+         (get_local $0)
+         (i32.const 16)
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 16)
+        )
+       )
+       (br $continue|5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 16)
+   )
+   (block
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (tee_local $3
+       (get_local $1)
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $1
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $1)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $3)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 8)
+   )
+   (block
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (tee_local $3
+       (get_local $1)
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $1
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $1)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $3)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 4)
+   )
+   (block
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (tee_local $3
+       (get_local $1)
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $1
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $1)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $3)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 2)
+   )
+   (block
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (get_local $1)
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 1)
+   )
+   (block
+    (set_local $3
+     (get_local $1)
+    )
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (get_local $1)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/memory/memmove (; 18 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return)
+  )
+  (if
+   (i32.eqz
+    (tee_local $3
+     (i32.le_u
+      (i32.add
+       (get_local $1)
+       (get_local $2)
+      )
+      (get_local $0)
+     )
+    )
+   )
+   (set_local $3
+    (i32.le_u
+     (i32.add
+      (get_local $0)
+      (get_local $2)
+     )
+     (get_local $1)
+    )
+   )
+  )
+  (if
+   (get_local $3)
+   (block
+    (call $~lib/internal/memory/memcpy
+     (get_local $0)
+     (get_local $1)
+     (get_local $2)
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.lt_u
+    (get_local $0)
+    (get_local $1)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (loop $continue|0
+       (if
+        (i32.and
+         (get_local $0)
+         (i32.const 7)
+        )
+        (block
+         (if
+          (i32.eqz
+           (get_local $2)
+          )
+          (return)
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (tee_local $3
+            (tee_local $4
+             (get_local $0)
+            )
+           )
+           (i32.const 1)
+          )
+         )
+         (set_local $1
+          (i32.add
+           (tee_local $3
+            (get_local $1)
+           )
+           (i32.const 1)
+          )
+         )
+         (i32.store8
+          (get_local $4)
+          (i32.load8_u
+           (get_local $3)
+          )
+         )
+         (br $continue|0)
+        )
+       )
+      )
+      (loop $continue|1
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 8)
+        )
+        (block
+         (i64.store
+          (get_local $0)
+          (i64.load
+           (get_local $1)
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 8)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (get_local $0)
+           (i32.const 8)
+          )
+         )
+         (set_local $1
+          (i32.add
+           (get_local $1)
+           (i32.const 8)
+          )
+         )
+         (br $continue|1)
+        )
+       )
+      )
+     )
+    )
+    (loop $continue|2
+     (if
+      (get_local $2)
+      (block
+       (set_local $0
+        (i32.add
+         (tee_local $3
+          (tee_local $4
+           (get_local $0)
+          )
+         )
+         (i32.const 1)
+        )
+       )
+       (set_local $1
+        (i32.add
+         (tee_local $3
+          (get_local $1)
+         )
+         (i32.const 1)
+        )
+       )
+       (i32.store8
+        (get_local $4)
+        (i32.load8_u
+         (get_local $3)
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+       (br $continue|2)
+      )
+     )
+    )
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (loop $continue|3
+       (if
+        (i32.and
+         (i32.add
+          (get_local $0)
+          (get_local $2)
+         )
+         (i32.const 7)
+        )
+        (block
+         (if
+          (i32.eqz
+           (get_local $2)
+          )
+          (return)
+         )
+         (i32.store8
+          (i32.add
+           (get_local $0)
+           (tee_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 1)
+            )
+           )
+          )
+          (i32.load8_u
+           (i32.add
+            (get_local $1)
+            (get_local $2)
+           )
+          )
+         )
+         (br $continue|3)
+        )
+       )
+      )
+      (loop $continue|4
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 8)
+        )
+        (block
+         (i64.store
+          (i32.add
+           (get_local $0)
+           (tee_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 8)
+            )
+           )
+          )
+          (i64.load
+           (i32.add
+            (get_local $1)
+            (get_local $2)
+           )
+          )
+         )
+         (br $continue|4)
+        )
+       )
+      )
+     )
+    )
+    (loop $continue|5
+     (if
+      (get_local $2)
+      (block
+       (i32.store8
+        (i32.add
+         (get_local $0)
+         (tee_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+        )
+        (i32.load8_u
+         (i32.add
+          (get_local $1)
+          (get_local $2)
+         )
+        )
+       )
+       (br $continue|5)
+      )
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/string/repeatUnsafe (; 19 ;) (; has Stack IR ;) (type $FUNCSIG$viii) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i64)
+  (block $break|0
+   (block $case5|0
+    (block $case4|0
+     (block $case3|0
+      (block $case2|0
+       (block $case1|0
+        (br_if $break|0
+         (i32.eqz
+          (tee_local $5
+           (tee_local $6
+            (i32.load
+             (get_local $1)
+            )
+           )
+          )
+         )
+        )
+        (block $tablify|0
+         (br_table $case1|0 $case2|0 $case3|0 $case4|0 $tablify|0
+          (i32.sub
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+        )
+        (br $case5|0)
+       )
+       (set_local $5
+        (i32.load16_u offset=4
+         (get_local $1)
+        )
+       )
+       (set_local $3
+        (get_local $0)
+       )
+       (block $break|1
+        (set_local $0
+         (i32.const 0)
+        )
+        (loop $repeat|1
+         (br_if $break|1
+          (i32.ge_s
+           (get_local $0)
+           (get_local $2)
+          )
+         )
+         (i32.store16 offset=4
+          (i32.add
+           (get_local $3)
+           (i32.shl
+            (get_local $0)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $0)
+           (i32.const 1)
+          )
+         )
+         (br $repeat|1)
+        )
+       )
+       (br $break|0)
+      )
+      (set_local $3
+       (i32.load offset=4
+        (get_local $1)
+       )
+      )
+      (set_local $5
+       (get_local $0)
+      )
+      (block $break|2
+       (set_local $0
+        (i32.const 0)
+       )
+       (loop $repeat|2
+        (br_if $break|2
+         (i32.ge_s
+          (get_local $0)
+          (get_local $2)
+         )
+        )
+        (i32.store offset=4
+         (i32.add
+          (get_local $5)
+          (i32.shl
+           (get_local $0)
+           (i32.const 2)
+          )
+         )
+         (get_local $3)
+        )
+        (set_local $0
+         (i32.add
+          (get_local $0)
+          (i32.const 1)
+         )
+        )
+        (br $repeat|2)
+       )
+      )
+      (br $break|0)
+     )
+     (set_local $5
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+     (set_local $3
+      (i32.load16_u offset=8
+       (get_local $1)
+      )
+     )
+     (block $break|3
+      (loop $repeat|3
+       (br_if $break|3
+        (i32.ge_s
+         (get_local $4)
+         (get_local $2)
+        )
+       )
+       (i32.store offset=4
+        (i32.add
+         (get_local $0)
+         (i32.shl
+          (get_local $4)
+          (i32.const 2)
+         )
+        )
+        (get_local $5)
+       )
+       (i32.store16 offset=8
+        (i32.add
+         (get_local $0)
+         (i32.shl
+          (get_local $4)
+          (i32.const 1)
+         )
+        )
+        (get_local $3)
+       )
+       (set_local $4
+        (i32.add
+         (get_local $4)
+         (i32.const 1)
+        )
+       )
+       (br $repeat|3)
+      )
+     )
+     (br $break|0)
+    )
+    (set_local $7
+     (i64.load offset=4
+      (get_local $1)
+     )
+    )
+    (block $break|4
+     (loop $repeat|4
+      (br_if $break|4
+       (i32.ge_s
+        (get_local $3)
+        (get_local $2)
+       )
+      )
+      (i64.store offset=4
+       (i32.add
+        (get_local $0)
+        (i32.shl
+         (get_local $3)
+         (i32.const 3)
+        )
+       )
+       (get_local $7)
+      )
+      (set_local $3
+       (i32.add
+        (get_local $3)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|4)
+     )
+    )
+    (br $break|0)
+   )
+   (set_local $3
+    (i32.add
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+   (set_local $5
+    (i32.add
+     (get_local $1)
+     (i32.const 4)
+    )
+   )
+   (block $break|5
+    (set_local $1
+     (i32.mul
+      (tee_local $0
+       (i32.shl
+        (get_local $6)
+        (i32.const 1)
+       )
+      )
+      (get_local $2)
+     )
+    )
+    (loop $repeat|5
+     (br_if $break|5
+      (i32.ge_s
+       (get_local $4)
+       (get_local $1)
+      )
+     )
+     (call $~lib/internal/memory/memmove
+      (i32.add
+       (get_local $3)
+       (get_local $4)
+      )
+      (get_local $5)
+      (get_local $0)
+     )
+     (set_local $4
+      (i32.add
+       (get_local $4)
+       (get_local $0)
+      )
+     )
+     (br $repeat|5)
+    )
+   )
+  )
+ )
+ (func $~lib/internal/string/copyUnsafe (; 20 ;) (; has Stack IR ;) (type $iiiiiv) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32)
+  (call $~lib/internal/memory/memmove
+   (i32.add
+    (i32.add
+     (get_local $0)
+     (i32.shl
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.add
+    (i32.add
+     (get_local $2)
+     (i32.shl
+      (get_local $3)
+      (i32.const 1)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.shl
+    (get_local $4)
+    (i32.const 1)
+   )
+  )
+ )
+ (func $~lib/string/String#padStart (; 21 ;) (; has Stack IR ;) (type $FUNCSIG$iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 728)
+     (i32.const 385)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $2
+   (i32.load
+    (i32.const 72)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $3
+     (i32.lt_s
+      (get_local $1)
+      (tee_local $5
+       (i32.load
+        (get_local $0)
+       )
+      )
+     )
+    )
+   )
+   (set_local $3
+    (i32.eqz
+     (get_local $2)
+    )
+   )
+  )
+  (if
+   (get_local $3)
+   (return
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (call $~lib/internal/string/allocateUnsafe
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.gt_s
+    (tee_local $1
+     (i32.sub
+      (get_local $1)
+      (get_local $5)
+     )
+    )
+    (get_local $2)
+   )
+   (block
+    (call $~lib/internal/string/repeatUnsafe
+     (get_local $4)
+     (i32.const 72)
+     (tee_local $3
+      (i32.div_s
+       (i32.sub
+        (get_local $1)
+        (i32.const 1)
+       )
+       (get_local $2)
+      )
+     )
+    )
+    (if
+     (tee_local $3
+      (i32.sub
+       (get_local $1)
+       (tee_local $2
+        (i32.mul
+         (get_local $3)
+         (get_local $2)
+        )
+       )
+      )
+     )
+     (call $~lib/internal/string/copyUnsafe
+      (get_local $4)
+      (get_local $2)
+      (i32.const 72)
+      (i32.const 0)
+      (get_local $3)
+     )
+    )
+   )
+   (call $~lib/internal/string/copyUnsafe
+    (get_local $4)
+    (i32.const 0)
+    (i32.const 72)
+    (i32.const 0)
+    (get_local $1)
+   )
+  )
+  (if
+   (get_local $5)
+   (call $~lib/internal/string/copyUnsafe
+    (get_local $4)
+    (get_local $1)
+    (get_local $0)
+    (i32.const 0)
+    (get_local $5)
+   )
+  )
+  (get_local $4)
+ )
+ (func $~lib/date/pad (; 22 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (call $~lib/string/String#padStart
+   (call $~lib/internal/itoa/itoa<i32>
+    (get_local $0)
+   )
+   (get_local $1)
+  )
+ )
+ (func $~lib/string/String#concat (; 23 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 728)
+     (i32.const 131)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (set_local $1
+    (i32.const 776)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.add
+      (tee_local $3
+       (i32.load
+        (get_local $0)
+       )
+      )
+      (tee_local $4
+       (i32.load
+        (get_local $1)
+       )
+      )
+     )
+    )
+   )
+   (return
+    (i32.const 792)
+   )
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (tee_local $2
+    (call $~lib/internal/string/allocateUnsafe
+     (get_local $2)
+    )
+   )
+   (i32.const 0)
+   (get_local $0)
+   (i32.const 0)
+   (get_local $3)
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (get_local $2)
+   (get_local $3)
+   (get_local $1)
+   (i32.const 0)
+   (get_local $4)
+  )
+  (get_local $2)
+ )
+ (func $~lib/string/String.__concat (; 24 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (set_local $0
+    (i32.const 776)
+   )
+  )
+  (call $~lib/string/String#concat
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $~lib/date/Date#millisOfDay (; 25 ;) (; has Stack IR ;) (type $iI) (param $0 i32) (result i64)
+  (local $1 i64)
+  (local $2 i64)
+  (set_local $2
+   (tee_local $1
+    (i64.load
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i64.lt_s
+    (get_local $1)
+    (i64.const 0)
+   )
+   (set_local $1
+    (i64.add
+     (i64.sub
+      (get_local $1)
+      (i64.const 86400000)
+     )
+     (i64.const 1)
+    )
+   )
+  )
+  (i64.sub
+   (get_local $2)
+   (i64.mul
+    (i64.div_s
+     (get_local $1)
+     (i64.const 86400000)
+    )
+    (i64.const 86400000)
+   )
+  )
+ )
+ (func $~lib/date/Date#getUTCHours (; 26 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.wrap/i64
+   (i64.div_s
+    (call $~lib/date/Date#millisOfDay
+     (get_local $0)
+    )
+    (i64.const 3600000)
+   )
+  )
+ )
+ (func $~lib/date/Date#getUTCMinutes (; 27 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.wrap/i64
+   (i64.rem_s
+    (i64.div_s
+     (call $~lib/date/Date#millisOfDay
+      (get_local $0)
+     )
+     (i64.const 60000)
+    )
+    (i64.const 60)
+   )
+  )
+ )
+ (func $~lib/date/Date#getUTCSeconds (; 28 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.wrap/i64
+   (i64.rem_s
+    (i64.div_s
+     (call $~lib/date/Date#millisOfDay
+      (get_local $0)
+     )
+     (i64.const 1000)
+    )
+    (i64.const 60)
+   )
+  )
+ )
+ (func $~lib/date/Date#getUTCMilliseconds (; 29 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.wrap/i64
+   (i64.rem_s
+    (call $~lib/date/Date#millisOfDay
+     (get_local $0)
+    )
+    (i64.const 1000)
+   )
+  )
+ )
+ (func $~lib/date/Date#toISOString (; 30 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/string/String.__concat
+   (call $~lib/string/String.__concat
+    (call $~lib/string/String.__concat
+     (call $~lib/string/String.__concat
+      (call $~lib/string/String.__concat
+       (call $~lib/string/String.__concat
+        (call $~lib/string/String.__concat
+         (call $~lib/string/String.__concat
+          (call $~lib/string/String.__concat
+           (call $~lib/string/String.__concat
+            (call $~lib/string/String.__concat
+             (call $~lib/string/String.__concat
+              (call $~lib/string/String.__concat
+               (tee_local $1
+                (if (result i32)
+                 (i32.le_u
+                  (tee_local $1
+                   (call $~lib/date/Date#getUTCFullYear
+                    (get_local $0)
+                   )
+                  )
+                  (i32.const 9999)
+                 )
+                 (call $~lib/date/pad
+                  (get_local $1)
+                  (i32.const 4)
+                 )
+                 (call $~lib/string/String.__concat
+                  (if (result i32)
+                   (i32.lt_s
+                    (get_local $1)
+                    (i32.const 0)
+                   )
+                   (i32.const 760)
+                   (i32.const 768)
+                  )
+                  (call $~lib/date/pad
+                   (select
+                    (get_local $1)
+                    (i32.sub
+                     (i32.const 0)
+                     (get_local $1)
+                    )
+                    (i32.gt_s
+                     (get_local $1)
+                     (i32.const 0)
+                    )
+                   )
+                   (i32.const 6)
+                  )
+                 )
+                )
+               )
+               (i32.const 760)
+              )
+              (call $~lib/date/pad
+               (i32.add
+                (call $~lib/date/Date#getUTCMonth
+                 (get_local $0)
+                )
+                (i32.const 1)
+               )
+               (i32.const 2)
+              )
+             )
+             (i32.const 760)
+            )
+            (call $~lib/date/pad
+             (call $~lib/date/Date#getUTCDate
+              (get_local $0)
+             )
+             (i32.const 2)
+            )
+           )
+           (i32.const 800)
+          )
+          (call $~lib/date/pad
+           (call $~lib/date/Date#getUTCHours
+            (get_local $0)
+           )
+           (i32.const 2)
+          )
+         )
+         (i32.const 808)
+        )
+        (call $~lib/date/pad
+         (call $~lib/date/Date#getUTCMinutes
+          (get_local $0)
+         )
+         (i32.const 2)
+        )
+       )
+       (i32.const 808)
+      )
+      (call $~lib/date/pad
+       (call $~lib/date/Date#getUTCSeconds
+        (get_local $0)
+       )
+       (i32.const 2)
+      )
+     )
+     (i32.const 816)
+    )
+    (call $~lib/date/pad
+     (call $~lib/date/Date#getUTCMilliseconds
+      (get_local $0)
+     )
+     (i32.const 3)
+    )
+   )
+   (i32.const 824)
+  )
+ )
+ (func $~lib/internal/string/compareUnsafe (; 31 ;) (; has Stack IR ;) (type $FUNCSIG$iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (get_local $0)
+  )
+  (loop $continue|0
+   (if
+    (tee_local $0
+     (if (result i32)
+      (get_local $2)
+      (i32.eqz
+       (tee_local $4
+        (i32.sub
+         (i32.load16_u offset=4
+          (get_local $3)
+         )
+         (i32.load16_u offset=4
+          (get_local $1)
+         )
+        )
+       )
+      )
+      (get_local $2)
+     )
+    )
+    (block
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (set_local $3
+      (i32.add
+       (get_local $3)
+       (i32.const 2)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (get_local $4)
+ )
+ (func $~lib/string/String.__eq (; 32 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.eqz
+      (get_local $0)
+     )
+    )
+   )
+   (set_local $2
+    (i32.eqz
+     (get_local $1)
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (return
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.ne
+    (tee_local $2
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (i32.load
+     (get_local $1)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.eqz
+   (call $~lib/internal/string/compareUnsafe
+    (get_local $0)
+    (get_local $1)
+    (get_local $2)
+   )
+  )
+ )
+ (func $~lib/string/String#substring (; 33 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 728)
+     (i32.const 304)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $4
+   (select
+    (tee_local $1
+     (select
+      (get_local $1)
+      (i32.const 0)
+      (i32.gt_s
+       (get_local $1)
+       (i32.const 0)
+      )
+     )
+    )
+    (tee_local $3
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (i32.lt_s
+     (get_local $1)
+     (get_local $3)
+    )
+   )
+  )
+  (set_local $2
+   (select
+    (tee_local $1
+     (select
+      (get_local $2)
+      (i32.const 0)
+      (i32.gt_s
+       (get_local $2)
+       (i32.const 0)
+      )
+     )
+    )
+    (get_local $3)
+    (i32.lt_s
+     (get_local $1)
+     (get_local $3)
+    )
+   )
+  )
+  (set_local $4
+   (select
+    (tee_local $1
+     (get_local $4)
+    )
+    (get_local $2)
+    (i32.lt_s
+     (get_local $1)
+     (get_local $2)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $3
+     (i32.sub
+      (tee_local $2
+       (select
+        (get_local $1)
+        (get_local $2)
+        (i32.gt_s
+         (get_local $1)
+         (get_local $2)
+        )
+       )
+      )
+      (get_local $4)
+     )
+    )
+   )
+   (return
+    (i32.const 792)
+   )
+  )
+  (if
+   (tee_local $1
+    (i32.eqz
+     (get_local $4)
+    )
+   )
+   (set_local $1
+    (i32.eq
+     (get_local $2)
+     (i32.load
+      (get_local $0)
+     )
+    )
+   )
+  )
+  (if
+   (get_local $1)
+   (return
+    (get_local $0)
+   )
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (tee_local $1
+    (call $~lib/internal/string/allocateUnsafe
+     (get_local $3)
+    )
+   )
+   (i32.const 0)
+   (get_local $0)
+   (get_local $4)
+   (get_local $3)
+  )
+  (get_local $1)
+ )
+ (func $~lib/date/Date#toUTCString (; 34 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $2
+   (i32.mul
+    (call $~lib/date/Date#getUTCDay
+     (get_local $0)
+    )
+    (i32.const 3)
+   )
+  )
+  (set_local $3
+   (i32.mul
+    (call $~lib/date/Date#getUTCMonth
+     (get_local $0)
+    )
+    (i32.const 3)
+   )
+  )
+  (set_local $1
+   (call $~lib/date/Date#getUTCFullYear
+    (get_local $0)
+   )
+  )
+  (call $~lib/string/String.__concat
+   (call $~lib/string/String.__concat
+    (call $~lib/string/String.__concat
+     (call $~lib/string/String.__concat
+      (call $~lib/string/String.__concat
+       (call $~lib/string/String.__concat
+        (call $~lib/string/String.__concat
+         (call $~lib/string/String.__concat
+          (tee_local $2
+           (call $~lib/string/String.__concat
+            (call $~lib/string/String.__concat
+             (call $~lib/string/String.__concat
+              (call $~lib/string/String.__concat
+               (call $~lib/string/String.__concat
+                (call $~lib/string/String#substring
+                 (i32.const 888)
+                 (get_local $2)
+                 (i32.add
+                  (get_local $2)
+                  (i32.const 3)
+                 )
+                )
+                (i32.const 1016)
+               )
+               (call $~lib/date/pad
+                (call $~lib/date/Date#getUTCDate
+                 (get_local $0)
+                )
+                (i32.const 2)
+               )
+              )
+              (i32.const 1024)
+             )
+             (call $~lib/string/String#substring
+              (i32.const 936)
+              (get_local $3)
+              (i32.add
+               (get_local $3)
+               (i32.const 3)
+              )
+             )
+            )
+            (i32.const 1024)
+           )
+          )
+          (tee_local $1
+           (if (result i32)
+            (i32.lt_s
+             (get_local $1)
+             (i32.const 0)
+            )
+            (call $~lib/string/String.__concat
+             (i32.const 760)
+             (call $~lib/date/pad
+              (i32.sub
+               (i32.const 0)
+               (get_local $1)
+              )
+              (i32.const 4)
+             )
+            )
+            (call $~lib/date/pad
+             (get_local $1)
+             (i32.const 4)
+            )
+           )
+          )
+         )
+         (i32.const 1024)
+        )
+        (call $~lib/date/pad
+         (call $~lib/date/Date#getUTCHours
+          (get_local $0)
+         )
+         (i32.const 2)
+        )
+       )
+       (i32.const 808)
+      )
+      (call $~lib/date/pad
+       (call $~lib/date/Date#getUTCMinutes
+        (get_local $0)
+       )
+       (i32.const 2)
+      )
+     )
+     (i32.const 808)
+    )
+    (call $~lib/date/pad
+     (call $~lib/date/Date#getUTCSeconds
+      (get_local $0)
+     )
+     (i32.const 2)
+    )
+   )
+   (i32.const 1032)
+  )
+ )
+ (func $~lib/date/daysFromCivil (; 35 ;) (; has Stack IR ;) (type $iiiI) (param $0 i32) (param $1 i32) (param $2 i32) (result i64)
+  (local $3 i32)
+  (if
+   (i32.le_s
+    (get_local $1)
+    (i32.const 2)
+   )
+   (set_local $0
+    (i32.sub
+     (get_local $0)
+     (i32.const 1)
+    )
+   )
+  )
+  (set_local $0
+   (i32.sub
+    (get_local $0)
+    (i32.mul
+     (tee_local $3
+      (i32.div_s
+       (tee_local $3
+        (if (result i32)
+         (i32.ge_s
+          (get_local $0)
+          (i32.const 0)
+         )
+         (get_local $0)
+         (i32.sub
+          (get_local $0)
+          (i32.const 399)
+         )
+        )
+       )
+       (i32.const 400)
+      )
+     )
+     (i32.const 400)
+    )
+   )
+  )
+  (i64.sub
+   (i64.add
+    (i64.mul
+     (i64.extend_s/i32
+      (get_local $3)
+     )
+     (i64.const 146097)
+    )
+    (i64.extend_s/i32
+     (i32.add
+      (i32.sub
+       (i32.add
+        (i32.mul
+         (get_local $0)
+         (i32.const 365)
+        )
+        (i32.div_s
+         (get_local $0)
+         (i32.const 4)
+        )
+       )
+       (i32.div_s
+        (get_local $0)
+        (i32.const 100)
+       )
+      )
+      (i32.sub
+       (i32.add
+        (i32.div_s
+         (i32.add
+          (i32.mul
+           (tee_local $1
+            (if (result i32)
+             (i32.gt_s
+              (get_local $1)
+              (i32.const 2)
+             )
+             (i32.sub
+              (get_local $1)
+              (i32.const 3)
+             )
+             (i32.add
+              (get_local $1)
+              (i32.const 9)
+             )
+            )
+           )
+           (i32.const 153)
+          )
+          (i32.const 2)
+         )
+         (i32.const 5)
+        )
+        (get_local $2)
+       )
+       (i32.const 1)
+      )
+     )
+    )
+   )
+   (i64.const 719468)
+  )
+ )
+ (func $~lib/date/makeTime (; 36 ;) (; has Stack IR ;) (type $iiiiiiiI) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (param $5 i32) (param $6 i32) (result i64)
+  (local $7 i64)
+  (if
+   (i64.lt_s
+    (tee_local $7
+     (i64.extend_s/i32
+      (get_local $1)
+     )
+    )
+    (i64.const 0)
+   )
+   (set_local $7
+    (i64.add
+     (i64.sub
+      (get_local $7)
+      (i64.const 12)
+     )
+     (i64.const 1)
+    )
+   )
+  )
+  (i64.add
+   (i64.add
+    (i64.add
+     (i64.add
+      (i64.mul
+       (i64.sub
+        (i64.add
+         (call $~lib/date/daysFromCivil
+          (i32.add
+           (get_local $0)
+           (tee_local $0
+            (i32.wrap/i64
+             (i64.div_s
+              (get_local $7)
+              (i64.const 12)
+             )
+            )
+           )
+          )
+          (i32.add
+           (i32.sub
+            (get_local $1)
+            (i32.mul
+             (get_local $0)
+             (i32.const 12)
+            )
+           )
+           (i32.const 1)
+          )
+          (i32.const 1)
+         )
+         (i64.extend_s/i32
+          (get_local $2)
+         )
+        )
+        (i64.const 1)
+       )
+       (i64.const 86400000)
+      )
+      (i64.mul
+       (i64.extend_s/i32
+        (get_local $3)
+       )
+       (i64.const 3600000)
+      )
+     )
+     (i64.mul
+      (i64.extend_s/i32
+       (get_local $4)
+      )
+      (i64.const 60000)
+     )
+    )
+    (i64.mul
+     (i64.extend_s/i32
+      (get_local $5)
+     )
+     (i64.const 1000)
+    )
+   )
+   (i64.extend_s/i32
+    (get_local $6)
+   )
+  )
+ )
+ (func $~lib/date/Date.UTC (; 37 ;) (; has Stack IR ;) (type $iiiiiiiI) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (param $5 i32) (param $6 i32) (result i64)
+  (local $7 i64)
+  (if
+   (i32.eqz
+    (tee_local $0
+     (i64.lt_s
+      (tee_local $7
+       (call $~lib/date/makeTime
+        (get_local $0)
+        (get_local $1)
+        (get_local $2)
+        (get_local $3)
+        (get_local $4)
+        (get_local $5)
+        (get_local $6)
+       )
+      )
+      (i64.const -8640000000000000)
+     )
+    )
+   )
+   (set_local $0
+    (i64.gt_s
+     (get_local $7)
+     (i64.const 8640000000000000)
+    )
+   )
+  )
+  (if
+   (get_local $0)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 70)
+     (i32.const 45)
+    )
+    (unreachable)
+   )
+  )
+  (get_local $7)
+ )
+ (func $~lib/date/Date#toString (; 38 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/date/Date#toISOString
+   (get_local $0)
+  )
+ )
+ (func $~lib/date/Date#setTime (; 39 ;) (; has Stack IR ;) (type $iII) (param $0 i32) (param $1 i64) (result i64)
+  (local $2 i32)
+  (set_local $2
+   (get_local $0)
+  )
+  (if
+   (i32.eqz
+    (tee_local $0
+     (i64.lt_s
+      (get_local $1)
+      (i64.const -8640000000000000)
+     )
+    )
+   )
+   (set_local $0
+    (i64.gt_s
+     (get_local $1)
+     (i64.const 8640000000000000)
+    )
+   )
+  )
+  (if
+   (get_local $0)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 70)
+     (i32.const 45)
+    )
+    (unreachable)
+   )
+  )
+  (i64.store
+   (get_local $2)
+   (get_local $1)
+  )
+  (get_local $1)
+ )
+ (func $~lib/date/Date#setFields (; 40 ;) (; has Stack IR ;) (type $iiiiII) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i64) (result i64)
+  (call $~lib/date/Date#setTime
+   (get_local $0)
+   (i64.add
+    (call $~lib/date/makeTime
+     (get_local $1)
+     (get_local $2)
+     (get_local $3)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+    )
+    (get_local $4)
+   )
+  )
+ )
+ (func $~lib/date/Date#setUTCMonth (; 41 ;) (; has Stack IR ;) (type $FUNCSIG$ji) (param $0 i32) (result i64)
+  (call $~lib/date/Date#setFields
+   (get_local $0)
+   (call $~lib/date/Date#getUTCFullYear
+    (get_local $0)
+   )
+   (i32.const 1)
+   (call $~lib/date/Date#getUTCDate
+    (get_local $0)
+   )
+   (call $~lib/date/Date#millisOfDay
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/date/Date#setUTCDate (; 42 ;) (; has Stack IR ;) (type $FUNCSIG$ji) (param $0 i32) (result i64)
+  (call $~lib/date/Date#setFields
+   (get_local $0)
+   (call $~lib/date/Date#getUTCFullYear
+    (get_local $0)
+   )
+   (call $~lib/date/Date#getUTCMonth
+    (get_local $0)
+   )
+   (i32.const 0)
+   (call $~lib/date/Date#millisOfDay
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/date/Date#setUTCHours (; 43 ;) (; has Stack IR ;) (type $FUNCSIG$ji) (param $0 i32) (result i64)
+  (local $1 i64)
+  (set_local $1
+   (call $~lib/date/Date#millisOfDay
+    (get_local $0)
+   )
+  )
+  (call $~lib/date/Date#setTime
+   (get_local $0)
+   (i64.add
+    (i64.add
+     (i64.sub
+      (i64.load
+       (get_local $0)
+      )
+      (get_local $1)
+     )
+     (i64.const -3600000)
+    )
+    (i64.rem_s
+     (get_local $1)
+     (i64.const 3600000)
+    )
+   )
+  )
+ )
+ (func $~lib/date/Date#setUTCMinutes (; 44 ;) (; has Stack IR ;) (type $FUNCSIG$ji) (param $0 i32) (result i64)
+  (local $1 i64)
+  (local $2 i64)
+  (set_local $2
+   (i64.sub
+    (tee_local $1
+     (call $~lib/date/Date#millisOfDay
+      (get_local $0)
+     )
+    )
+    (i64.rem_s
+     (get_local $1)
+     (i64.const 3600000)
+    )
+   )
+  )
+  (call $~lib/date/Date#setTime
+   (get_local $0)
+   (i64.add
+    (i64.add
+     (i64.add
+      (i64.sub
+       (i64.load
+        (get_local $0)
+       )
+       (get_local $1)
+      )
+      (get_local $2)
+     )
+     (i64.const 3660000)
+    )
+    (i64.rem_s
+     (get_local $1)
+     (i64.const 60000)
+    )
+   )
+  )
+ )
+ (func $~lib/date/Date#setUTCSeconds (; 45 ;) (; has Stack IR ;) (type $FUNCSIG$ji) (param $0 i32) (result i64)
+  (local $1 i64)
+  (local $2 i64)
+  (set_local $2
+   (i64.sub
+    (tee_local $1
+     (call $~lib/date/Date#millisOfDay
+      (get_local $0)
+     )
+    )
+    (i64.rem_s
+     (get_local $1)
+     (i64.const 60000)
+    )
+   )
+  )
+  (call $~lib/date/Date#setTime
+   (get_local $0)
+   (i64.add
+    (i64.add
+     (i64.add
+      (i64.sub
+       (i64.load
+        (get_local $0)
+       )
+       (get_local $1)
+      )
+      (get_local $2)
+     )
+     (i64.const 30000)
+    )
+    (i64.rem_s
+     (get_local $1)
+     (i64.const 1000)
+    )
+   )
+  )
+ )
+ (func $~lib/date/Date#setUTCMilliseconds (; 46 ;) (; has Stack IR ;) (type $FUNCSIG$ji) (param $0 i32) (result i64)
+  (local $1 i64)
+  (set_local $1
+   (call $~lib/date/Date#millisOfDay
+    (get_local $0)
+   )
+  )
+  (call $~lib/date/Date#setTime
+   (get_local $0)
+   (i64.add
+    (i64.sub
+     (i64.load
+      (get_local $0)
+     )
+     (i64.rem_s
+      (get_local $1)
+      (i64.const 1000)
+     )
+    )
+    (i64.const 1500)
+   )
+  )
+ )
+ (func $~lib/date/Date#setUTCFullYear (; 47 ;) (; has Stack IR ;) (type $FUNCSIG$ji) (param $0 i32) (result i64)
+  (call $~lib/date/Date#setFields
+   (get_local $0)
+   (i32.const 2021)
+   (call $~lib/date/Date#getUTCMonth
+    (get_local $0)
+   )
+   (call $~lib/date/Date#getUTCDate
+    (get_local $0)
+   )
+   (call $~lib/date/Date#millisOfDay
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/string/String#charCodeAt (; 48 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 728)
+     (i32.const 96)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (i32.load
+     (get_local $0)
+    )
+   )
+   (return
+    (i32.const -1)
+   )
+  )
+  (i32.load16_u offset=4
+   (i32.add
+    (get_local $0)
+    (i32.shl
+     (get_local $1)
+     (i32.const 1)
+    )
+   )
+  )
+ )
+ (func $~lib/date/parseDigits (; 49 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (i32.gt_s
+    (i32.add
+     (get_local $1)
+     (get_local $2)
+    )
+    (i32.load
+     (get_local $0)
+    )
+   )
+   (return
+    (i32.const -1)
+   )
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $3)
+      (get_local $2)
+     )
+    )
+    (if
+     (i32.gt_u
+      (tee_local $5
+       (i32.sub
+        (call $~lib/string/String#charCodeAt
+         (get_local $0)
+         (i32.add
+          (get_local $1)
+          (get_local $3)
+         )
+        )
+        (i32.const 48)
+       )
+      )
+      (i32.const 9)
+     )
+     (return
+      (i32.const -1)
+     )
+     (block
+      (set_local $4
+       (i32.add
+        (i32.mul
+         (get_local $4)
+         (i32.const 10)
+        )
+        (get_local $5)
+       )
+      )
+      (set_local $3
+       (i32.add
+        (get_local $3)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|0)
+     )
+    )
+   )
+  )
+  (get_local $4)
+ )
+ (func $~lib/date/Date.parse (; 50 ;) (; has Stack IR ;) (type $iI) (param $0 i32) (result i64)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i64)
+  (local $9 i32)
+  (local $10 i64)
+  (local $11 i32)
+  (local $12 i64)
+  (block $folding-inner0
+   (if
+    (i32.eqz
+     (tee_local $2
+      (i32.eq
+       (tee_local $4
+        (if (result i32)
+         (tee_local $6
+          (i32.load
+           (get_local $0)
+          )
+         )
+         (call $~lib/string/String#charCodeAt
+          (get_local $0)
+          (i32.const 0)
+         )
+         (i32.const 0)
+        )
+       )
+       (i32.const 43)
+      )
+     )
+    )
+    (set_local $2
+     (i32.eq
+      (get_local $4)
+      (i32.const 45)
+     )
+    )
+   )
+   (set_local $1
+    (if (result i32)
+     (get_local $2)
+     (block (result i32)
+      (if
+       (i32.eqz
+        (tee_local $2
+         (i32.lt_s
+          (tee_local $3
+           (call $~lib/date/parseDigits
+            (get_local $0)
+            (i32.const 1)
+            (i32.const 6)
+           )
+          )
+          (i32.const 0)
+         )
+        )
+       )
+       (if
+        (tee_local $2
+         (i32.eq
+          (get_local $4)
+          (i32.const 45)
+         )
+        )
+        (set_local $2
+         (i32.eqz
+          (get_local $3)
+         )
+        )
+       )
+      )
+      (if
+       (get_local $2)
+       (br $folding-inner0)
+      )
+      (if
+       (i32.eq
+        (get_local $4)
+        (i32.const 45)
+       )
+       (set_local $3
+        (i32.sub
+         (i32.const 0)
+         (get_local $3)
+        )
+       )
+      )
+      (i32.const 7)
+     )
+     (block (result i32)
+      (if
+       (i32.lt_s
+        (tee_local $3
+         (call $~lib/date/parseDigits
+          (get_local $0)
+          (i32.const 0)
+          (i32.const 4)
+         )
+        )
+        (i32.const 0)
+       )
+       (br $folding-inner0)
+      )
+      (i32.const 4)
+     )
+    )
+   )
+   (set_local $5
+    (i32.const 1)
+   )
+   (set_local $4
+    (i32.const 1)
+   )
+   (if
+    (tee_local $2
+     (i32.lt_s
+      (get_local $1)
+      (get_local $6)
+     )
+    )
+    (set_local $2
+     (i32.eq
+      (call $~lib/string/String#charCodeAt
+       (get_local $0)
+       (get_local $1)
+      )
+      (i32.const 45)
+     )
+    )
+   )
+   (if
+    (get_local $2)
+    (block
+     (if
+      (i32.eqz
+       (tee_local $2
+        (i32.lt_s
+         (tee_local $5
+          (call $~lib/date/parseDigits
+           (get_local $0)
+           (i32.add
+            (get_local $1)
+            (i32.const 1)
+           )
+           (i32.const 2)
+          )
+         )
+         (i32.const 1)
+        )
+       )
+      )
+      (set_local $2
+       (i32.gt_s
+        (get_local $5)
+        (i32.const 12)
+       )
+      )
+     )
+     (if
+      (get_local $2)
+      (br $folding-inner0)
+     )
+     (if
+      (tee_local $2
+       (i32.lt_s
+        (tee_local $1
+         (i32.add
+          (get_local $1)
+          (i32.const 3)
+         )
+        )
+        (get_local $6)
+       )
+      )
+      (set_local $2
+       (i32.eq
+        (call $~lib/string/String#charCodeAt
+         (get_local $0)
+         (get_local $1)
+        )
+        (i32.const 45)
+       )
+      )
+     )
+     (if
+      (get_local $2)
+      (block
+       (if
+        (i32.eqz
+         (tee_local $2
+          (i32.lt_s
+           (tee_local $4
+            (call $~lib/date/parseDigits
+             (get_local $0)
+             (i32.add
+              (get_local $1)
+              (i32.const 1)
+             )
+             (i32.const 2)
+            )
+           )
+           (i32.const 1)
+          )
+         )
+        )
+        (set_local $2
+         (i32.gt_s
+          (get_local $4)
+          (i32.const 31)
+         )
+        )
+       )
+       (if
+        (get_local $2)
+        (br $folding-inner0)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $1)
+         (i32.const 3)
+        )
+       )
+      )
+     )
+    )
+   )
+   (if
+    (i32.ne
+     (i32.wrap/i64
+      (i64.and
+       (call $~lib/date/civilFromDays
+        (tee_local $12
+         (call $~lib/date/daysFromCivil
+          (get_local $3)
+          (get_local $5)
+          (get_local $4)
+         )
+        )
+       )
+       (i64.const 31)
+      )
+     )
+     (get_local $4)
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (tee_local $2
+     (i32.lt_s
+      (get_local $1)
+      (get_local $6)
+     )
+    )
+    (set_local $2
+     (i32.eq
+      (call $~lib/string/String#charCodeAt
+       (get_local $0)
+       (get_local $1)
+      )
+      (i32.const 84)
+     )
+    )
+   )
+   (if
+    (get_local $2)
+    (block
+     (set_local $2
+      (call $~lib/date/parseDigits
+       (get_local $0)
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+       (i32.const 2)
+      )
+     )
+     (set_local $11
+      (call $~lib/date/parseDigits
+       (get_local $0)
+       (i32.add
+        (get_local $1)
+        (i32.const 4)
+       )
+       (i32.const 2)
+      )
+     )
+     (if
+      (i32.eqz
+       (tee_local $4
+        (i32.lt_s
+         (get_local $2)
+         (i32.const 0)
+        )
+       )
+      )
+      (set_local $4
+       (i32.gt_s
+        (get_local $2)
+        (i32.const 24)
+       )
+      )
+     )
+     (if
+      (i32.eqz
+       (get_local $4)
+      )
+      (set_local $4
+       (i32.lt_s
+        (get_local $11)
+        (i32.const 0)
+       )
+      )
+     )
+     (if
+      (i32.eqz
+       (get_local $4)
+      )
+      (set_local $4
+       (i32.gt_s
+        (get_local $11)
+        (i32.const 59)
+       )
+      )
+     )
+     (if
+      (i32.eqz
+       (get_local $4)
+      )
+      (set_local $4
+       (i32.ne
+        (call $~lib/string/String#charCodeAt
+         (get_local $0)
+         (i32.add
+          (get_local $1)
+          (i32.const 3)
+         )
+        )
+        (i32.const 58)
+       )
+      )
+     )
+     (if
+      (get_local $4)
+      (br $folding-inner0)
+     )
+     (set_local $4
+      (i32.const 0)
+     )
+     (if
+      (tee_local $3
+       (i32.lt_s
+        (tee_local $1
+         (i32.add
+          (get_local $1)
+          (i32.const 6)
+         )
+        )
+        (get_local $6)
+       )
+      )
+      (set_local $3
+       (i32.eq
+        (call $~lib/string/String#charCodeAt
+         (get_local $0)
+         (get_local $1)
+        )
+        (i32.const 58)
+       )
+      )
+     )
+     (if
+      (get_local $3)
+      (block
+       (if
+        (i32.eqz
+         (tee_local $3
+          (i32.lt_s
+           (tee_local $4
+            (call $~lib/date/parseDigits
+             (get_local $0)
+             (i32.add
+              (get_local $1)
+              (i32.const 1)
+             )
+             (i32.const 2)
+            )
+           )
+           (i32.const 0)
+          )
+         )
+        )
+        (set_local $3
+         (i32.gt_s
+          (get_local $4)
+          (i32.const 59)
+         )
+        )
+       )
+       (if
+        (get_local $3)
+        (br $folding-inner0)
+       )
+       (if
+        (tee_local $3
+         (i32.lt_s
+          (tee_local $1
+           (i32.add
+            (get_local $1)
+            (i32.const 3)
+           )
+          )
+          (get_local $6)
+         )
+        )
+        (set_local $3
+         (i32.eq
+          (call $~lib/string/String#charCodeAt
+           (get_local $0)
+           (get_local $1)
+          )
+          (i32.const 46)
+         )
+        )
+       )
+       (if
+        (get_local $3)
+        (block
+         (set_local $3
+          (tee_local $1
+           (i32.add
+            (get_local $1)
+            (i32.const 1)
+           )
+          )
+         )
+         (set_local $5
+          (i32.const 100)
+         )
+         (block $break|0
+          (loop $continue|0
+           (if
+            (i32.lt_s
+             (get_local $1)
+             (get_local $6)
+            )
+            (block
+             (br_if $break|0
+              (i32.gt_u
+               (tee_local $9
+                (i32.sub
+                 (call $~lib/string/String#charCodeAt
+                  (get_local $0)
+                  (get_local $1)
+                 )
+                 (i32.const 48)
+                )
+               )
+               (i32.const 9)
+              )
+             )
+             (set_local $7
+              (i32.add
+               (get_local $7)
+               (i32.mul
+                (get_local $9)
+                (get_local $5)
+               )
+              )
+             )
+             (set_local $5
+              (i32.div_s
+               (get_local $5)
+               (i32.const 10)
+              )
+             )
+             (set_local $1
+              (i32.add
+               (get_local $1)
+               (i32.const 1)
+              )
+             )
+             (br $continue|0)
+            )
+           )
+          )
+         )
+         (if
+          (i32.eq
+           (get_local $1)
+           (get_local $3)
+          )
+          (br $folding-inner0)
+         )
+        )
+       )
+      )
+     )
+     (if
+      (tee_local $5
+       (i32.eq
+        (get_local $2)
+        (i32.const 24)
+       )
+      )
+      (set_local $5
+       (i32.ne
+        (i32.or
+         (i32.or
+          (get_local $11)
+          (get_local $4)
+         )
+         (get_local $7)
+        )
+        (i32.const 0)
+       )
+      )
+     )
+     (if
+      (get_local $5)
+      (br $folding-inner0)
+     )
+     (set_local $10
+      (i64.add
+       (i64.add
+        (i64.add
+         (i64.mul
+          (i64.extend_s/i32
+           (get_local $2)
+          )
+          (i64.const 3600000)
+         )
+         (i64.mul
+          (i64.extend_s/i32
+           (get_local $11)
+          )
+          (i64.const 60000)
+         )
+        )
+        (i64.mul
+         (i64.extend_s/i32
+          (get_local $4)
+         )
+         (i64.const 1000)
+        )
+       )
+       (i64.extend_s/i32
+        (get_local $7)
+       )
+      )
+     )
+     (if
+      (i32.lt_s
+       (get_local $1)
+       (get_local $6)
+      )
+      (if
+       (i32.eq
+        (tee_local $5
+         (call $~lib/string/String#charCodeAt
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+        (i32.const 90)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $1)
+         (i32.const 1)
+        )
+       )
+       (block
+        (if
+         (i32.eqz
+          (tee_local $3
+           (i32.eq
+            (get_local $5)
+            (i32.const 43)
+           )
+          )
+         )
+         (set_local $3
+          (i32.eq
+           (get_local $5)
+           (i32.const 45)
+          )
+         )
+        )
+        (if
+         (get_local $3)
+         (block
+          (set_local $3
+           (call $~lib/date/parseDigits
+            (get_local $0)
+            (i32.add
+             (get_local $1)
+             (i32.const 1)
+            )
+            (i32.const 2)
+           )
+          )
+          (set_local $9
+           (call $~lib/date/parseDigits
+            (get_local $0)
+            (i32.add
+             (get_local $1)
+             (i32.const 4)
+            )
+            (i32.const 2)
+           )
+          )
+          (if
+           (i32.eqz
+            (tee_local $2
+             (i32.lt_s
+              (get_local $3)
+              (i32.const 0)
+             )
+            )
+           )
+           (set_local $2
+            (i32.gt_s
+             (get_local $3)
+             (i32.const 23)
+            )
+           )
+          )
+          (if
+           (i32.eqz
+            (get_local $2)
+           )
+           (set_local $2
+            (i32.lt_s
+             (get_local $9)
+             (i32.const 0)
+            )
+           )
+          )
+          (if
+           (i32.eqz
+            (get_local $2)
+           )
+           (set_local $2
+            (i32.gt_s
+             (get_local $9)
+             (i32.const 59)
+            )
+           )
+          )
+          (if
+           (i32.eqz
+            (get_local $2)
+           )
+           (set_local $2
+            (i32.ne
+             (call $~lib/string/String#charCodeAt
+              (get_local $0)
+              (i32.add
+               (get_local $1)
+               (i32.const 3)
+              )
+             )
+             (i32.const 58)
+            )
+           )
+          )
+          (if
+           (get_local $2)
+           (br $folding-inner0)
+          )
+          (set_local $8
+           (i64.add
+            (i64.mul
+             (i64.extend_s/i32
+              (get_local $3)
+             )
+             (i64.const 3600000)
+            )
+            (i64.mul
+             (i64.extend_s/i32
+              (get_local $9)
+             )
+             (i64.const 60000)
+            )
+           )
+          )
+          (if
+           (i32.ne
+            (get_local $5)
+            (i32.const 43)
+           )
+           (set_local $8
+            (i64.sub
+             (i64.const 0)
+             (get_local $8)
+            )
+           )
+          )
+          (set_local $10
+           (i64.sub
+            (get_local $10)
+            (get_local $8)
+           )
+          )
+          (set_local $1
+           (i32.add
+            (get_local $1)
+            (i32.const 6)
+           )
+          )
+         )
+        )
+       )
+      )
+     )
+    )
+   )
+   (if
+    (i32.ne
+     (get_local $1)
+     (get_local $6)
+    )
+    (br $folding-inner0)
+   )
+   (if
+    (i32.eqz
+     (tee_local $7
+      (i64.lt_s
+       (tee_local $8
+        (i64.add
+         (i64.mul
+          (get_local $12)
+          (i64.const 86400000)
+         )
+         (get_local $10)
+        )
+       )
+       (i64.const -8640000000000000)
+      )
+     )
+    )
+    (set_local $7
+     (i64.gt_s
+      (get_local $8)
+      (i64.const 8640000000000000)
+     )
+    )
+   )
+   (if
+    (get_local $7)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 8)
+      (i32.const 70)
+      (i32.const 45)
+     )
+     (unreachable)
+    )
+   )
+   (return
+    (get_local $8)
+   )
+  )
+  (call $~lib/env/abort
+   (i32.const 0)
+   (i32.const 8)
+   (i32.const 92)
+   (i32.const 2)
+  )
+  (unreachable)
+ )
+ (func $~lib/date/Date.fromString (; 51 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (call $~lib/date/Date#constructor
+   (i32.const 0)
+   (call $~lib/date/Date.parse
+    (i32.const 1168)
+   )
+  )
+ )
+ (func $~lib/date/Date#constructor|trampoline (; 52 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (local $0 i64)
+  (block $1of1
+   (block $0of1
+    (block $outOfRange
+     (br_table $0of1 $1of1 $outOfRange
+      (get_global $~argc)
+     )
+    )
+    (unreachable)
+   )
+   (set_local $0
+    (i64.trunc_s/f64
+     (call $~lib/env/Date_now)
+    )
+   )
+  )
+  (call $~lib/date/Date#constructor
+   (i32.const 0)
+   (get_local $0)
+  )
+ )
+ (func $start (; 53 ;) (; has Stack IR ;) (type $v)
+  (set_global $~lib/allocator/arena/startOffset
+   (i32.const 2128)
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_global $~lib/allocator/arena/startOffset)
+  )
+  (set_global $std/date/date
+   (call $~lib/date/Date#constructor
+    (i32.const 0)
+    (i64.const 0)
+   )
+  )
+  (if
+   (i64.ne
+    (call $~lib/date/Date#getTime
+     (get_global $std/date/date)
+    )
+    (i64.const 0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 6)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/date/Date#getUTCFullYear
+     (get_global $std/date/date)
+    )
+    (i32.const 1970)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 7)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (call $~lib/date/Date#getUTCMonth
+    (get_global $std/date/date)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 8)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/date/Date#getUTCDate
+     (get_global $std/date/date)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 9)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/date/Date#getUTCDay
+     (get_global $std/date/date)
+    )
+    (i32.const 4)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 10)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/date/Date#toISOString
+      (get_global $std/date/date)
+     )
+     (i32.const 832)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 11)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/date/Date#toUTCString
+      (get_global $std/date/date)
+     )
+     (i32.const 1048)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 12)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/date/time
+   (call $~lib/date/Date.UTC
+    (i32.const 2020)
+    (i32.const 1)
+    (i32.const 29)
+    (i32.const 13)
+    (i32.const 5)
+    (i32.const 9)
+    (i32.const 42)
+   )
+  )
+  (if
+   (i64.ne
+    (get_global $std/date/time)
+    (i64.const 1582981509042)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 17)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/date/date
+   (call $~lib/date/Date#constructor
+    (i32.const 0)
+    (get_global $std/date/time)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/date/Date#getUTCFullYear
+     (get_global $std/date/date)
+    )
+    (i32.const 2020)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 19)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/date/Date#getUTCMonth
+     (get_global $std/date/date)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 20)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/date/Date#getUTCDate
+     (get_global $std/date/date)
+    )
+    (i32.const 29)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 21)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/date/Date#getUTCDay
+     (get_global $std/date/date)
+    )
+    (i32.const 6)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 22)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/date/Date#getUTCHours
+     (get_global $std/date/date)
+    )
+    (i32.const 13)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 23)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/date/Date#getUTCMinutes
+     (get_global $std/date/date)
+    )
+    (i32.const 5)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 24)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/date/Date#getUTCSeconds
+     (get_global $std/date/date)
+    )
+    (i32.const 9)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 25)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/date/Date#getUTCMilliseconds
+     (get_global $std/date/date)
+    )
+    (i32.const 42)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 26)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/date/Date#toString
+      (get_global $std/date/date)
+     )
+     (i32.const 1112)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 27)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/date/date
+   (call $~lib/date/Date#constructor
+    (i32.const 0)
+    (i64.const -1)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/date/Date#toISOString
+      (get_global $std/date/date)
+     )
+     (i32.const 1168)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 32)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/date/Date#getUTCDay
+     (get_global $std/date/date)
+    )
+    (i32.const 3)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 33)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/date/date
+   (call $~lib/date/Date#constructor
+    (i32.const 0)
+    (call $~lib/date/Date.UTC
+     (i32.const -1)
+     (i32.const 0)
+     (i32.const 1)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/date/Date#toISOString
+      (get_global $std/date/date)
+     )
+     (i32.const 1224)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 35)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/date/Date#toUTCString
+      (get_global $std/date/date)
+     )
+     (i32.const 1288)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 36)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/date/date
+   (call $~lib/date/Date#constructor
+    (i32.const 0)
+    (i64.const 8640000000000000)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/date/Date#toISOString
+      (get_global $std/date/date)
+     )
+     (i32.const 1352)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 38)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i64.ne
+    (call $~lib/date/Date.UTC
+     (i32.const 2019)
+     (i32.const 12)
+     (i32.const 32)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+    )
+    (call $~lib/date/Date.UTC
+     (i32.const 2020)
+     (i32.const 1)
+     (i32.const 1)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 42)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i64.ne
+    (call $~lib/date/Date.UTC
+     (i32.const 2020)
+     (i32.const -1)
+     (i32.const 1)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+    )
+    (call $~lib/date/Date.UTC
+     (i32.const 2019)
+     (i32.const 11)
+     (i32.const 1)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 43)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/date/date
+   (call $~lib/date/Date#constructor
+    (i32.const 0)
+    (call $~lib/date/Date.UTC
+     (i32.const 2020)
+     (i32.const 0)
+     (i32.const 31)
+     (i32.const 12)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+    )
+   )
+  )
+  (drop
+   (call $~lib/date/Date#setUTCMonth
+    (get_global $std/date/date)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/date/Date#toISOString
+      (get_global $std/date/date)
+     )
+     (i32.const 1416)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 46)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (drop
+   (call $~lib/date/Date#setUTCDate
+    (get_global $std/date/date)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/date/Date#toISOString
+      (get_global $std/date/date)
+     )
+     (i32.const 1472)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 48)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (drop
+   (call $~lib/date/Date#setUTCHours
+    (get_global $std/date/date)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/date/Date#toISOString
+      (get_global $std/date/date)
+     )
+     (i32.const 1528)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 50)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (drop
+   (call $~lib/date/Date#setUTCMinutes
+    (get_global $std/date/date)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/date/Date#toISOString
+      (get_global $std/date/date)
+     )
+     (i32.const 1584)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 52)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (drop
+   (call $~lib/date/Date#setUTCSeconds
+    (get_global $std/date/date)
+   )
+  )
+  (drop
+   (call $~lib/date/Date#setUTCMilliseconds
+    (get_global $std/date/date)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/date/Date#toISOString
+      (get_global $std/date/date)
+     )
+     (i32.const 1640)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 55)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (drop
+   (call $~lib/date/Date#setUTCFullYear
+    (get_global $std/date/date)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/date/Date#toISOString
+      (get_global $std/date/date)
+     )
+     (i32.const 1696)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 57)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i64.ne
+    (call $~lib/date/Date.parse
+     (i32.const 1752)
+    )
+    (call $~lib/date/Date.UTC
+     (i32.const 2020)
+     (i32.const 0)
+     (i32.const 1)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 61)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i64.ne
+    (call $~lib/date/Date.parse
+     (i32.const 1768)
+    )
+    (call $~lib/date/Date.UTC
+     (i32.const 2020)
+     (i32.const 1)
+     (i32.const 1)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 62)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i64.ne
+    (call $~lib/date/Date.parse
+     (i32.const 1792)
+    )
+    (call $~lib/date/Date.UTC
+     (i32.const 2020)
+     (i32.const 1)
+     (i32.const 29)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 63)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i64.ne
+    (call $~lib/date/Date.parse
+     (i32.const 1816)
+    )
+    (call $~lib/date/Date.UTC
+     (i32.const 2020)
+     (i32.const 1)
+     (i32.const 29)
+     (i32.const 13)
+     (i32.const 5)
+     (i32.const 0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 64)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i64.ne
+    (call $~lib/date/Date.parse
+     (i32.const 1856)
+    )
+    (call $~lib/date/Date.UTC
+     (i32.const 2020)
+     (i32.const 1)
+     (i32.const 29)
+     (i32.const 13)
+     (i32.const 5)
+     (i32.const 9)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 65)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i64.ne
+    (call $~lib/date/Date.parse
+     (i32.const 1112)
+    )
+    (get_global $std/date/time)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 66)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i64.ne
+    (call $~lib/date/Date.parse
+     (i32.const 1904)
+    )
+    (get_global $std/date/time)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 67)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i64.ne
+    (call $~lib/date/Date.parse
+     (i32.const 1960)
+    )
+    (get_global $std/date/time)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 68)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i64.ne
+    (call $~lib/date/Date.parse
+     (i32.const 2024)
+    )
+    (get_global $std/date/time)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 69)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i64.ne
+    (call $~lib/date/Date.parse
+     (i32.const 1224)
+    )
+    (call $~lib/date/Date.UTC
+     (i32.const -1)
+     (i32.const 0)
+     (i32.const 1)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 70)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i64.ne
+    (call $~lib/date/Date.parse
+     (i32.const 1352)
+    )
+    (i64.const 8640000000000000)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 71)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i64.ne
+    (call $~lib/date/Date.parse
+     (i32.const 2088)
+    )
+    (call $~lib/date/Date.UTC
+     (i32.const 2020)
+     (i32.const 2)
+     (i32.const 1)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 72)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/date/date
+   (call $~lib/date/Date.fromString)
+  )
+  (if
+   (i64.ne
+    (call $~lib/date/Date#getTime
+     (get_global $std/date/date)
+    )
+    (i64.const -1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 74)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i64.le_s
+    (i64.trunc_s/f64
+     (call $~lib/env/Date_now)
+    )
+    (i64.const 0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 78)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $~argc
+   (i32.const 0)
+  )
+  (set_global $std/date/date
+   (call $~lib/date/Date#constructor|trampoline)
+  )
+  (if
+   (i32.lt_s
+    (call $~lib/date/Date#getUTCFullYear
+     (get_global $std/date/date)
+    )
+    (i32.const 2020)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 80)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/date/start
+   (call $~lib/env/performance_now)
+  )
+  (if
+   (i32.eqz
+    (f64.ge
+     (call $~lib/env/performance_now)
+     (get_global $std/date/start)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 40)
+     (i32.const 82)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+ )
+)
@@ -0,0 +1,82 @@
+import "allocator/arena";
+
+// epoch
+
+var date = new Date(0);
+assert(date.getTime() == 0);
+assert(date.getUTCFullYear() == 1970);
+assert(date.getUTCMonth() == 0);
+assert(date.getUTCDate() == 1);
+assert(date.getUTCDay() == 4);
+assert(date.toISOString() == "1970-01-01T00:00:00.000Z");
+assert(date.toUTCString() == "Thu, 01 Jan 1970 00:00:00 GMT");
+
+// fields
+
+var time = Date.UTC(2020, 1, 29, 13, 5, 9, 42);
+assert(time == 1582981509042);
+date = new Date(time);
+assert(date.getUTCFullYear() == 2020);
+assert(date.getUTCMonth() == 1);
+assert(date.getUTCDate() == 29);
+assert(date.getUTCDay() == 6);
+assert(date.getUTCHours() == 13);
+assert(date.getUTCMinutes() == 5);
+assert(date.getUTCSeconds() == 9);
+assert(date.getUTCMilliseconds() == 42);
+assert(date.toString() == "2020-02-29T13:05:09.042Z");
+
+// before the epoch and extended years
+
+date = new Date(-1);
+assert(date.toISOString() == "1969-12-31T23:59:59.999Z");
+assert(date.getUTCDay() == 3);
+date = new Date(Date.UTC(-1, 0));
+assert(date.toISOString() == "-000001-01-01T00:00:00.000Z");
+assert(date.toUTCString() == "Fri, 01 Jan -0001 00:00:00 GMT");
+date = new Date(8640000000000000);
+assert(date.toISOString() == "+275760-09-13T00:00:00.000Z");
+
+// out of range fields carry over
+
+assert(Date.UTC(2019, 12, 32) == Date.UTC(2020, 1, 1));
+assert(Date.UTC(2020, -1) == Date.UTC(2019, 11));
+date = new Date(Date.UTC(2020, 0, 31, 12));
+date.setUTCMonth(1);
+assert(date.toISOString() == "2020-03-02T12:00:00.000Z");
+date.setUTCDate(0);
+assert(date.toISOString() == "2020-02-29T12:00:00.000Z");
+date.setUTCHours(-1);
+assert(date.toISOString() == "2020-02-28T23:00:00.000Z");
+date.setUTCMinutes(61);
+assert(date.toISOString() == "2020-02-29T00:01:00.000Z");
+date.setUTCSeconds(30);
+date.setUTCMilliseconds(1500);
+assert(date.toISOString() == "2020-02-29T00:01:31.500Z");
+date.setUTCFullYear(2021);
+assert(date.toISOString() == "2021-03-01T00:01:31.500Z");
+
+// parsing
+
+assert(Date.parse("2020") == Date.UTC(2020, 0));
+assert(Date.parse("2020-02") == Date.UTC(2020, 1));
+assert(Date.parse("2020-02-29") == Date.UTC(2020, 1, 29));
+assert(Date.parse("2020-02-29T13:05") == Date.UTC(2020, 1, 29, 13, 5));
+assert(Date.parse("2020-02-29T13:05:09Z") == Date.UTC(2020, 1, 29, 13, 5, 9));
+assert(Date.parse("2020-02-29T13:05:09.042Z") == time);
+assert(Date.parse("2020-02-29T13:05:09.0429Z") == time);
+assert(Date.parse("2020-02-29T14:35:09.042+01:30") == time);
+assert(Date.parse("2020-02-29T12:00:09.042-01:05") == time);
+assert(Date.parse("-000001-01-01T00:00:00.000Z") == Date.UTC(-1, 0));
+assert(Date.parse("+275760-09-13T00:00:00.000Z") == 8640000000000000);
+assert(Date.parse("2020-02-29T24:00") == Date.UTC(2020, 2, 1));
+date = Date.fromString("1969-12-31T23:59:59.999Z");
+assert(date.getTime() == -1);
+
+// clocks
+
+assert(Date.now() > 0);
+date = new Date();
+assert(date.getUTCFullYear() >= 2020);
+var start = performance.now();
+assert(performance.now() >= start);
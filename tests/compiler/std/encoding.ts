@@ -0,0 +1,77 @@
+import "allocator/arena";
+
+function bytes(values: u8[]): Uint8Array {
+  var array = new Uint8Array(values.length);
+  for (let i = 0; i < values.length; ++i) array[i] = values[i];
+  return array;
+}
+
+// encoder
+
+var encoder = new TextEncoder();
+assert(encoder.encoding == "utf-8");
+assert(encoder.encode().length == 0);
+var encoded = encoder.encode("a€𐐷");
+assert(encoded.length == 8);
+assert(encoded[0] == 0x61);
+assert(encoded[1] == 0xE2 && encoded[2] == 0x82 && encoded[3] == 0xAC);
+assert(encoded[4] == 0xF0 && encoded[5] == 0x90 && encoded[6] == 0x90 && encoded[7] == 0xB7);
+
+// lone surrogates are encoded as U+FFFD
+var lone = encoder.encode("\uD800x\uDC00");
+assert(lone.length == 7);
+assert(lone[0] == 0xEF && lone[1] == 0xBF && lone[2] == 0xBD);
+assert(lone[3] == 0x78);
+assert(lone[4] == 0xEF && lone[5] == 0xBF && lone[6] == 0xBD);
+
+// utf-8
+
+var decoder = new TextDecoder();
+assert(decoder.encoding == "utf-8");
+assert(!decoder.fatal);
+assert(!decoder.ignoreBOM);
+assert(decoder.decode(encoded) == "a€𐐷");
+assert(decoder.decode(bytes([])) == "");
+assert(decoder.decode(encoded.subarray(1, 4)) == "€");
+
+// maximal subparts of ill-formed sequences are replaced by one U+FFFD each
+assert(decoder.decode(bytes([0xF0, 0x90, 0x90, 0x41])) == "\uFFFDA");
+assert(decoder.decode(bytes([0xE0, 0x80, 0x41])) == "\uFFFD\uFFFDA");
+assert(decoder.decode(bytes([0xED, 0xA0, 0x80])) == "\uFFFD\uFFFD\uFFFD");
+assert(decoder.decode(bytes([0xF4, 0x90, 0x80, 0x80])) == "\uFFFD\uFFFD\uFFFD\uFFFD");
+assert(decoder.decode(bytes([0xC0, 0xAF, 0xFF, 0x41])) == "\uFFFD\uFFFD\uFFFDA");
+assert(decoder.decode(bytes([0x41, 0xE2, 0x82])) == "A\uFFFD");
+
+// a leading byte order mark is stripped unless ignored
+assert(decoder.decode(bytes([0xEF, 0xBB, 0xBF, 0x41])) == "A");
+var keepBOM = new TextDecoder("utf-8", false, true);
+assert(keepBOM.decode(bytes([0xEF, 0xBB, 0xBF, 0x41])) == "\uFEFFA");
+
+// fatal decoders accept valid input including an encoded U+FFFD
+var fatal = new TextDecoder("utf-8", true);
+assert(fatal.fatal);
+assert(fatal.decode(bytes([0xEF, 0xBF, 0xBD])) == "\uFFFD");
+
+// labels are case-insensitive and may be surrounded by whitespace
+var labeled = new TextDecoder(" UTF8 ");
+assert(labeled.encoding == "utf-8");
+
+// utf-16le
+
+var utf16 = new TextDecoder("utf-16le");
+assert(utf16.encoding == "utf-16le");
+labeled = new TextDecoder("utf-16");
+assert(labeled.encoding == "utf-16le");
+assert(utf16.decode(bytes([0x61, 0x00, 0xAC, 0x20, 0x01, 0xD8, 0x37, 0xDC])) == "a€𐐷");
+assert(utf16.decode(bytes([0xFF, 0xFE, 0x61, 0x00])) == "a");
+assert(utf16.decode(bytes([0x00, 0xD8, 0x61, 0x00, 0x00, 0xDC])) == "\uFFFDa\uFFFD");
+assert(utf16.decode(bytes([0x61, 0x00, 0x62])) == "a\uFFFD");
+
+// windows-1252
+
+var latin1 = new TextDecoder("latin1");
+assert(latin1.encoding == "windows-1252");
+labeled = new TextDecoder("ascii");
+assert(labeled.encoding == "windows-1252");
+assert(latin1.decode(bytes([0x41, 0x80, 0x9F, 0xA0, 0xE9, 0xFF])) == "A€Ÿ\u00A0éÿ");
+assert(latin1.decode(bytes([0xEF, 0xBB, 0xBF])) == "ï»¿");
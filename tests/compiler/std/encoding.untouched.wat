@@ -0,0 +1,7609 @@
+(module
+ (type $ii (func (param i32) (result i32)))
+ (type $iii (func (param i32 i32) (result i32)))
+ (type $iiiiii (func (param i32 i32 i32 i32 i32) (result i32)))
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $iiiv (func (param i32 i32 i32)))
+ (type $iiiii (func (param i32 i32 i32 i32) (result i32)))
+ (type $iiiiiv (func (param i32 i32 i32 i32 i32)))
+ (type $iiii (func (param i32 i32 i32) (result i32)))
+ (type $v (func))
+ (type $iv (func (param i32)))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/internal/allocator/AL_BITS i32 (i32.const 3))
+ (global $~lib/internal/allocator/AL_SIZE i32 (i32.const 8))
+ (global $~lib/internal/allocator/AL_MASK i32 (i32.const 7))
+ (global $~lib/internal/allocator/MAX_SIZE_32 i32 (i32.const 1073741824))
+ (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
+ (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $std/encoding/encoder (mut i32) (i32.const 0))
+ (global $~lib/internal/string/HEADER_SIZE i32 (i32.const 4))
+ (global $~lib/internal/arraybuffer/HEADER_SIZE i32 (i32.const 8))
+ (global $~lib/internal/arraybuffer/MAX_BLENGTH i32 (i32.const 1073741816))
+ (global $~lib/internal/encoding/REPLACEMENT_CHARACTER i32 (i32.const 65533))
+ (global $std/encoding/encoded (mut i32) (i32.const 0))
+ (global $std/encoding/lone (mut i32) (i32.const 0))
+ (global $~lib/internal/string/MAX_LENGTH i32 (i32.const 536870910))
+ (global $~lib/internal/string/CharCode.BACKSPACE i32 (i32.const 8))
+ (global $~lib/internal/string/CharCode.TAB i32 (i32.const 9))
+ (global $~lib/internal/string/CharCode.LINEFEED i32 (i32.const 10))
+ (global $~lib/internal/string/CharCode.VERTICALTAB i32 (i32.const 11))
+ (global $~lib/internal/string/CharCode.FORMFEED i32 (i32.const 12))
+ (global $~lib/internal/string/CharCode.CARRIAGERETURN i32 (i32.const 13))
+ (global $~lib/internal/string/CharCode.SPACE i32 (i32.const 32))
+ (global $~lib/internal/string/CharCode.DOUBLEQUOTE i32 (i32.const 34))
+ (global $~lib/internal/string/CharCode.DOLLAR i32 (i32.const 36))
+ (global $~lib/internal/string/CharCode.AMPERSAND i32 (i32.const 38))
+ (global $~lib/internal/string/CharCode.SINGLEQUOTE i32 (i32.const 39))
+ (global $~lib/internal/string/CharCode.OPENPAREN i32 (i32.const 40))
+ (global $~lib/internal/string/CharCode.CLOSEPAREN i32 (i32.const 41))
+ (global $~lib/internal/string/CharCode.ASTERISK i32 (i32.const 42))
+ (global $~lib/internal/string/CharCode.PLUS i32 (i32.const 43))
+ (global $~lib/internal/string/CharCode.COMMA i32 (i32.const 44))
+ (global $~lib/internal/string/CharCode.MINUS i32 (i32.const 45))
+ (global $~lib/internal/string/CharCode.DOT i32 (i32.const 46))
+ (global $~lib/internal/string/CharCode.SLASH i32 (i32.const 47))
+ (global $~lib/internal/string/CharCode._0 i32 (i32.const 48))
+ (global $~lib/internal/string/CharCode._1 i32 (i32.const 49))
+ (global $~lib/internal/string/CharCode._2 i32 (i32.const 50))
+ (global $~lib/internal/string/CharCode._3 i32 (i32.const 51))
+ (global $~lib/internal/string/CharCode._4 i32 (i32.const 52))
+ (global $~lib/internal/string/CharCode._5 i32 (i32.const 53))
+ (global $~lib/internal/string/CharCode._6 i32 (i32.const 54))
+ (global $~lib/internal/string/CharCode._7 i32 (i32.const 55))
+ (global $~lib/internal/string/CharCode._8 i32 (i32.const 56))
+ (global $~lib/internal/string/CharCode._9 i32 (i32.const 57))
+ (global $~lib/internal/string/CharCode.COLON i32 (i32.const 58))
+ (global $~lib/internal/string/CharCode.QUESTION i32 (i32.const 63))
+ (global $~lib/internal/string/CharCode.A i32 (i32.const 65))
+ (global $~lib/internal/string/CharCode.B i32 (i32.const 66))
+ (global $~lib/internal/string/CharCode.D i32 (i32.const 68))
+ (global $~lib/internal/string/CharCode.E i32 (i32.const 69))
+ (global $~lib/internal/string/CharCode.F i32 (i32.const 70))
+ (global $~lib/internal/string/CharCode.O i32 (i32.const 79))
+ (global $~lib/internal/string/CharCode.S i32 (i32.const 83))
+ (global $~lib/internal/string/CharCode.W i32 (i32.const 87))
+ (global $~lib/internal/string/CharCode.X i32 (i32.const 88))
+ (global $~lib/internal/string/CharCode.T i32 (i32.const 84))
+ (global $~lib/internal/string/CharCode.Z i32 (i32.const 90))
+ (global $~lib/internal/string/CharCode.OPENBRACKET i32 (i32.const 91))
+ (global $~lib/internal/string/CharCode.BACKSLASH i32 (i32.const 92))
+ (global $~lib/internal/string/CharCode.CLOSEBRACKET i32 (i32.const 93))
+ (global $~lib/internal/string/CharCode.CARET i32 (i32.const 94))
+ (global $~lib/internal/string/CharCode._ i32 (i32.const 95))
+ (global $~lib/internal/string/CharCode.BACKTICK i32 (i32.const 96))
+ (global $~lib/internal/string/CharCode.a i32 (i32.const 97))
+ (global $~lib/internal/string/CharCode.b i32 (i32.const 98))
+ (global $~lib/internal/string/CharCode.c i32 (i32.const 99))
+ (global $~lib/internal/string/CharCode.d i32 (i32.const 100))
+ (global $~lib/internal/string/CharCode.e i32 (i32.const 101))
+ (global $~lib/internal/string/CharCode.f i32 (i32.const 102))
+ (global $~lib/internal/string/CharCode.g i32 (i32.const 103))
+ (global $~lib/internal/string/CharCode.i i32 (i32.const 105))
+ (global $~lib/internal/string/CharCode.l i32 (i32.const 108))
+ (global $~lib/internal/string/CharCode.m i32 (i32.const 109))
+ (global $~lib/internal/string/CharCode.n i32 (i32.const 110))
+ (global $~lib/internal/string/CharCode.o i32 (i32.const 111))
+ (global $~lib/internal/string/CharCode.r i32 (i32.const 114))
+ (global $~lib/internal/string/CharCode.s i32 (i32.const 115))
+ (global $~lib/internal/string/CharCode.t i32 (i32.const 116))
+ (global $~lib/internal/string/CharCode.u i32 (i32.const 117))
+ (global $~lib/internal/string/CharCode.v i32 (i32.const 118))
+ (global $~lib/internal/string/CharCode.w i32 (i32.const 119))
+ (global $~lib/internal/string/CharCode.x i32 (i32.const 120))
+ (global $~lib/internal/string/CharCode.z i32 (i32.const 122))
+ (global $~lib/internal/string/CharCode.OPENBRACE i32 (i32.const 123))
+ (global $~lib/internal/string/CharCode.BAR i32 (i32.const 124))
+ (global $~lib/internal/string/CharCode.CLOSEBRACE i32 (i32.const 125))
+ (global $~lib/internal/string/CharCode.LINESEPARATOR i32 (i32.const 8232))
+ (global $~lib/internal/string/CharCode.PARAGRAPHSEPARATOR i32 (i32.const 8233))
+ (global $~lib/encoding/Encoding.UTF8 i32 (i32.const 0))
+ (global $~lib/encoding/Encoding.UTF16LE i32 (i32.const 1))
+ (global $~lib/encoding/Encoding.WINDOWS_1252 i32 (i32.const 2))
+ (global $std/encoding/decoder (mut i32) (i32.const 0))
+ (global $std/encoding/keepBOM (mut i32) (i32.const 0))
+ (global $std/encoding/fatal (mut i32) (i32.const 0))
+ (global $std/encoding/labeled (mut i32) (i32.const 0))
+ (global $std/encoding/utf16 (mut i32) (i32.const 0))
+ (global $std/encoding/latin1 (mut i32) (i32.const 0))
+ (global $RTTI_BASE i32 (i32.const 18688))
+ (global $HEAP_BASE i32 (i32.const 18812))
+ (memory $0 1)
+ (data (i32.const 8) "\05\00\00\00u\00t\00f\00-\008\00")
+ (data (i32.const 24) "\0f\00\00\00s\00t\00d\00/\00e\00n\00c\00o\00d\00i\00n\00g\00.\00t\00s\00")
+ (data (i32.const 64) "\1b\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00t\00y\00p\00e\00d\00a\00r\00r\00a\00y\00.\00t\00s\00")
+ (data (i32.const 128) "\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s\00")
+ (data (i32.const 192) "\00\00\00\00")
+ (data (i32.const 200) "\04\00\00\00a\00\ac \01\d87\dc")
+ (data (i32.const 216) "\03\00\00\00\00\d8x\00\00\dc")
+ (data (i32.const 232) "\0e\00\00\00~\00l\00i\00b\00/\00s\00t\00r\00i\00n\00g\00.\00t\00s\00")
+ (data (i32.const 264) "\17\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00s\00t\00r\00i\00n\00g\00.\00t\00s\00")
+ (data (i32.const 320) "p\0c\00\00\00\00\00\00a\00\00\00z\00\00\00\01\00\00\00\e0\ff\ff\ff\b5\00\00\00\b5\00\00\00\01\00\00\00\e7\02\00\00\e0\00\00\00\f6\00\00\00\01\00\00\00\e0\ff\ff\ff\f8\00\00\00\fe\00\00\00\01\00\00\00\e0\ff\ff\ff\ff\00\00\00\ff\00\00\00\01\00\00\00y\00\00\00\01\01\00\00/\01\00\00\02\00\00\00\ff\ff\ff\ff1\01\00\001\01\00\00\01\00\00\00\18\ff\ff\ff3\01\00\007\01\00\00\02\00\00\00\ff\ff\ff\ff:\01\00\00H\01\00\00\02\00\00\00\ff\ff\ff\ffK\01\00\00w\01\00\00\02\00\00\00\ff\ff\ff\ffz\01\00\00~\01\00\00\02\00\00\00\ff\ff\ff\ff\7f\01\00\00\7f\01\00\00\01\00\00\00\d4\fe\ff\ff\80\01\00\00\80\01\00\00\01\00\00\00\c3\00\00\00\83\01\00\00\85\01\00\00\02\00\00\00\ff\ff\ff\ff\88\01\00\00\88\01\00\00\01\00\00\00\ff\ff\ff\ff\8c\01\00\00\8c\01\00\00\01\00\00\00\ff\ff\ff\ff\92\01\00\00\92\01\00\00\01\00\00\00\ff\ff\ff\ff\95\01\00\00\95\01\00\00\01\00\00\00a\00\00\00\99\01\00\00\99\01\00\00\01\00\00\00\ff\ff\ff\ff\9a\01\00\00\9a\01\00\00\01\00\00\00\a3\00\00\00\9b\01\00\00\9b\01\00\00\01\00\00\00A\a6\00\00\9e\01\00\00\9e\01\00\00\01\00\00\00\82\00\00\00\a1\01\00\00\a5\01\00\00\02\00\00\00\ff\ff\ff\ff\a8\01\00\00\a8\01\00\00\01\00\00\00\ff\ff\ff\ff\ad\01\00\00\ad\01\00\00\01\00\00\00\ff\ff\ff\ff\b0\01\00\00\b0\01\00\00\01\00\00\00\ff\ff\ff\ff\b4\01\00\00\b6\01\00\00\02\00\00\00\ff\ff\ff\ff\b9\01\00\00\b9\01\00\00\01\00\00\00\ff\ff\ff\ff\bd\01\00\00\bd\01\00\00\01\00\00\00\ff\ff\ff\ff\bf\01\00\00\bf\01\00\00\01\00\00\008\00\00\00\c5\01\00\00\c5\01\00\00\01\00\00\00\ff\ff\ff\ff\c6\01\00\00\c6\01\00\00\01\00\00\00\fe\ff\ff\ff\c8\01\00\00\c8\01\00\00\01\00\00\00\ff\ff\ff\ff\c9\01\00\00\c9\01\00\00\01\00\00\00\fe\ff\ff\ff\cb\01\00\00\cb\01\00\00\01\00\00\00\ff\ff\ff\ff\cc\01\00\00\cc\01\00\00\01\00\00\00\fe\ff\ff\ff\ce\01\00\00\dc\01\00\00\02\00\00\00\ff\ff\ff\ff\dd\01\00\00\dd\01\00\00\01\00\00\00\b1\ff\ff\ff\df\01\00\00\ef\01\00\00\02\00\00\00\ff\ff\ff\ff\f2\01\00\00\f2\01\00\00\01\00\00\00\ff\ff\ff\ff\f3\01\00\00\f3\01\00\00\01\00\00\00\fe\ff\ff\ff\f5\01\00\00\f5\01\00\00\01\00\00\00\ff\ff\ff\ff\f9\01\00\00\1f\02\00\00\02\00\00\00\ff\ff\ff\ff#\02\00\003\02\00\00\02\00\00\00\ff\ff\ff\ff<\02\00\00<\02\00\00\01\00\00\00\ff\ff\ff\ff?\02\00\00@\02\00\00\01\00\00\00?*\00\00B\02\00\00B\02\00\00\01\00\00\00\ff\ff\ff\ffG\02\00\00O\02\00\00\02\00\00\00\ff\ff\ff\ffP\02\00\00P\02\00\00\01\00\00\00\1f*\00\00Q\02\00\00Q\02\00\00\01\00\00\00\1c*\00\00R\02\00\00R\02\00\00\01\00\00\00\1e*\00\00S\02\00\00S\02\00\00\01\00\00\00.\ff\ff\ffT\02\00\00T\02\00\00\01\00\00\002\ff\ff\ffV\02\00\00W\02\00\00\01\00\00\003\ff\ff\ffY\02\00\00Y\02\00\00\01\00\00\006\ff\ff\ff[\02\00\00[\02\00\00\01\00\00\005\ff\ff\ff\\\02\00\00\\\02\00\00\01\00\00\00O\a5\00\00`\02\00\00`\02\00\00\01\00\00\003\ff\ff\ffa\02\00\00a\02\00\00\01\00\00\00K\a5\00\00c\02\00\00c\02\00\00\01\00\00\001\ff\ff\ffd\02\00\00d\02\00\00\01\00\00\00g\a5\00\00e\02\00\00e\02\00\00\01\00\00\00(\a5\00\00f\02\00\00f\02\00\00\01\00\00\00D\a5\00\00h\02\00\00h\02\00\00\01\00\00\00/\ff\ff\ffi\02\00\00i\02\00\00\01\00\00\00-\ff\ff\ffj\02\00\00j\02\00\00\01\00\00\00D\a5\00\00k\02\00\00k\02\00\00\01\00\00\00\f7)\00\00l\02\00\00l\02\00\00\01\00\00\00A\a5\00\00o\02\00\00o\02\00\00\01\00\00\00-\ff\ff\ffq\02\00\00q\02\00\00\01\00\00\00\fd)\00\00r\02\00\00r\02\00\00\01\00\00\00+\ff\ff\ffu\02\00\00u\02\00\00\01\00\00\00*\ff\ff\ff}\02\00\00}\02\00\00\01\00\00\00\e7)\00\00\80\02\00\00\80\02\00\00\01\00\00\00&\ff\ff\ff\82\02\00\00\82\02\00\00\01\00\00\00C\a5\00\00\83\02\00\00\83\02\00\00\01\00\00\00&\ff\ff\ff\87\02\00\00\87\02\00\00\01\00\00\00*\a5\00\00\88\02\00\00\88\02\00\00\01\00\00\00&\ff\ff\ff\89\02\00\00\89\02\00\00\01\00\00\00\bb\ff\ff\ff\8a\02\00\00\8b\02\00\00\01\00\00\00\'\ff\ff\ff\8c\02\00\00\8c\02\00\00\01\00\00\00\b9\ff\ff\ff\92\02\00\00\92\02\00\00\01\00\00\00%\ff\ff\ff\9d\02\00\00\9d\02\00\00\01\00\00\00\15\a5\00\00\9e\02\00\00\9e\02\00\00\01\00\00\00\12\a5\00\00E\03\00\00E\03\00\00\01\00\00\00T\00\00\00q\03\00\00s\03\00\00\02\00\00\00\ff\ff\ff\ffw\03\00\00w\03\00\00\01\00\00\00\ff\ff\ff\ff{\03\00\00}\03\00\00\01\00\00\00\82\00\00\00\ac\03\00\00\ac\03\00\00\01\00\00\00\da\ff\ff\ff\ad\03\00\00\af\03\00\00\01\00\00\00\db\ff\ff\ff\b1\03\00\00\c1\03\00\00\01\00\00\00\e0\ff\ff\ff\c2\03\00\00\c2\03\00\00\01\00\00\00\e1\ff\ff\ff\c3\03\00\00\cb\03\00\00\01\00\00\00\e0\ff\ff\ff\cc\03\00\00\cc\03\00\00\01\00\00\00\c0\ff\ff\ff\cd\03\00\00\ce\03\00\00\01\00\00\00\c1\ff\ff\ff\d0\03\00\00\d0\03\00\00\01\00\00\00\c2\ff\ff\ff\d1\03\00\00\d1\03\00\00\01\00\00\00\c7\ff\ff\ff\d5\03\00\00\d5\03\00\00\01\00\00\00\d1\ff\ff\ff\d6\03\00\00\d6\03\00\00\01\00\00\00\ca\ff\ff\ff\d7\03\00\00\d7\03\00\00\01\00\00\00\f8\ff\ff\ff\d9\03\00\00\ef\03\00\00\02\00\00\00\ff\ff\ff\ff\f0\03\00\00\f0\03\00\00\01\00\00\00\aa\ff\ff\ff\f1\03\00\00\f1\03\00\00\01\00\00\00\b0\ff\ff\ff\f2\03\00\00\f2\03\00\00\01\00\00\00\07\00\00\00\f3\03\00\00\f3\03\00\00\01\00\00\00\8c\ff\ff\ff\f5\03\00\00\f5\03\00\00\01\00\00\00\a0\ff\ff\ff\f8\03\00\00\f8\03\00\00\01\00\00\00\ff\ff\ff\ff\fb\03\00\00\fb\03\00\00\01\00\00\00\ff\ff\ff\ff0\04\00\00O\04\00\00\01\00\00\00\e0\ff\ff\ffP\04\00\00_\04\00\00\01\00\00\00\b0\ff\ff\ffa\04\00\00\81\04\00\00\02\00\00\00\ff\ff\ff\ff\8b\04\00\00\bf\04\00\00\02\00\00\00\ff\ff\ff\ff\c2\04\00\00\ce\04\00\00\02\00\00\00\ff\ff\ff\ff\cf\04\00\00\cf\04\00\00\01\00\00\00\f1\ff\ff\ff\d1\04\00\00/\05\00\00\02\00\00\00\ff\ff\ff\ffa\05\00\00\86\05\00\00\01\00\00\00\d0\ff\ff\ff\d0\10\00\00\fa\10\00\00\01\00\00\00\c0\0b\00\00\fd\10\00\00\ff\10\00\00\01\00\00\00\c0\0b\00\00\f8\13\00\00\fd\13\00\00\01\00\00\00\f8\ff\ff\ff\80\1c\00\00\80\1c\00\00\01\00\00\00\92\e7\ff\ff\81\1c\00\00\81\1c\00\00\01\00\00\00\93\e7\ff\ff\82\1c\00\00\82\1c\00\00\01\00\00\00\9c\e7\ff\ff\83\1c\00\00\84\1c\00\00\01\00\00\00\9e\e7\ff\ff\85\1c\00\00\85\1c\00\00\01\00\00\00\9d\e7\ff\ff\86\1c\00\00\86\1c\00\00\01\00\00\00\a4\e7\ff\ff\87\1c\00\00\87\1c\00\00\01\00\00\00\db\e7\ff\ff\88\1c\00\00\88\1c\00\00\01\00\00\00\c2\89\00\00\8a\1c\00\00\8a\1c\00\00\01\00\00\00\ff\ff\ff\ffy\1d\00\00y\1d\00\00\01\00\00\00\04\8a\00\00}\1d\00\00}\1d\00\00\01\00\00\00\e6\0e\00\00\8e\1d\00\00\8e\1d\00\00\01\00\00\008\8a\00\00\01\1e\00\00\95\1e\00\00\02\00\00\00\ff\ff\ff\ff\9b\1e\00\00\9b\1e\00\00\01\00\00\00\c5\ff\ff\ff\a1\1e\00\00\ff\1e\00\00\02\00\00\00\ff\ff\ff\ff\00\1f\00\00\07\1f\00\00\01\00\00\00\08\00\00\00\10\1f\00\00\15\1f\00\00\01\00\00\00\08\00\00\00 \1f\00\00\'\1f\00\00\01\00\00\00\08\00\00\000\1f\00\007\1f\00\00\01\00\00\00\08\00\00\00@\1f\00\00E\1f\00\00\01\00\00\00\08\00\00\00Q\1f\00\00W\1f\00\00\02\00\00\00\08\00\00\00`\1f\00\00g\1f\00\00\01\00\00\00\08\00\00\00p\1f\00\00q\1f\00\00\01\00\00\00J\00\00\00r\1f\00\00u\1f\00\00\01\00\00\00V\00\00\00v\1f\00\00w\1f\00\00\01\00\00\00d\00\00\00x\1f\00\00y\1f\00\00\01\00\00\00\80\00\00\00z\1f\00\00{\1f\00\00\01\00\00\00p\00\00\00|\1f\00\00}\1f\00\00\01\00\00\00~\00\00\00\b0\1f\00\00\b1\1f\00\00\01\00\00\00\08\00\00\00\be\1f\00\00\be\1f\00\00\01\00\00\00\db\e3\ff\ff\d0\1f\00\00\d1\1f\00\00\01\00\00\00\08\00\00\00\e0\1f\00\00\e1\1f\00\00\01\00\00\00\08\00\00\00\e5\1f\00\00\e5\1f\00\00\01\00\00\00\07\00\00\00N!\00\00N!\00\00\01\00\00\00\e4\ff\ff\ffp!\00\00\7f!\00\00\01\00\00\00\f0\ff\ff\ff\84!\00\00\84!\00\00\01\00\00\00\ff\ff\ff\ff\d0$\00\00\e9$\00\00\01\00\00\00\e6\ff\ff\ff0,\00\00_,\00\00\01\00\00\00\d0\ff\ff\ffa,\00\00a,\00\00\01\00\00\00\ff\ff\ff\ffe,\00\00e,\00\00\01\00\00\00\d5\d5\ff\fff,\00\00f,\00\00\01\00\00\00\d8\d5\ff\ffh,\00\00l,\00\00\02\00\00\00\ff\ff\ff\ffs,\00\00s,\00\00\01\00\00\00\ff\ff\ff\ffv,\00\00v,\00\00\01\00\00\00\ff\ff\ff\ff\81,\00\00\e3,\00\00\02\00\00\00\ff\ff\ff\ff\ec,\00\00\ee,\00\00\02\00\00\00\ff\ff\ff\ff\f3,\00\00\f3,\00\00\01\00\00\00\ff\ff\ff\ff\00-\00\00%-\00\00\01\00\00\00\a0\e3\ff\ff\'-\00\00\'-\00\00\01\00\00\00\a0\e3\ff\ff--\00\00--\00\00\01\00\00\00\a0\e3\ff\ffA\a6\00\00m\a6\00\00\02\00\00\00\ff\ff\ff\ff\81\a6\00\00\9b\a6\00\00\02\00\00\00\ff\ff\ff\ff#\a7\00\00/\a7\00\00\02\00\00\00\ff\ff\ff\ff3\a7\00\00o\a7\00\00\02\00\00\00\ff\ff\ff\ffz\a7\00\00|\a7\00\00\02\00\00\00\ff\ff\ff\ff\7f\a7\00\00\87\a7\00\00\02\00\00\00\ff\ff\ff\ff\8c\a7\00\00\8c\a7\00\00\01\00\00\00\ff\ff\ff\ff\91\a7\00\00\93\a7\00\00\02\00\00\00\ff\ff\ff\ff\94\a7\00\00\94\a7\00\00\01\00\00\000\00\00\00\97\a7\00\00\a9\a7\00\00\02\00\00\00\ff\ff\ff\ff\b5\a7\00\00\c3\a7\00\00\02\00\00\00\ff\ff\ff\ff\c8\a7\00\00\ca\a7\00\00\02\00\00\00\ff\ff\ff\ff\cd\a7\00\00\cd\a7\00\00\01\00\00\00\ff\ff\ff\ff\d1\a7\00\00\d1\a7\00\00\01\00\00\00\ff\ff\ff\ff\d7\a7\00\00\db\a7\00\00\02\00\00\00\ff\ff\ff\ff\f6\a7\00\00\f6\a7\00\00\01\00\00\00\ff\ff\ff\ffS\ab\00\00S\ab\00\00\01\00\00\00`\fc\ff\ffp\ab\00\00\bf\ab\00\00\01\00\00\000h\ff\ffA\ff\00\00Z\ff\00\00\01\00\00\00\e0\ff\ff\ff(\04\01\00O\04\01\00\01\00\00\00\d8\ff\ff\ff\d8\04\01\00\fb\04\01\00\01\00\00\00\d8\ff\ff\ff\97\05\01\00\a1\05\01\00\01\00\00\00\d9\ff\ff\ff\a3\05\01\00\b1\05\01\00\01\00\00\00\d9\ff\ff\ff\b3\05\01\00\b9\05\01\00\01\00\00\00\d9\ff\ff\ff\bb\05\01\00\bc\05\01\00\01\00\00\00\d9\ff\ff\ff\c0\0c\01\00\f2\0c\01\00\01\00\00\00\c0\ff\ff\ffp\0d\01\00\85\0d\01\00\01\00\00\00\e0\ff\ff\ff\c0\18\01\00\df\18\01\00\01\00\00\00\e0\ff\ff\ff`n\01\00\7fn\01\00\01\00\00\00\e0\ff\ff\ff\"\e9\01\00C\e9\01\00\01\00\00\00\de\ff\ff\ff\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 4416) "@\01\00\00\1c\03\00\00")
+ (data (i32.const 4424) "\a0\0b\00\00\00\00\00\00A\00\00\00Z\00\00\00\01\00\00\00 \00\00\00\c0\00\00\00\d6\00\00\00\01\00\00\00 \00\00\00\d8\00\00\00\de\00\00\00\01\00\00\00 \00\00\00\00\01\00\00.\01\00\00\02\00\00\00\01\00\00\002\01\00\006\01\00\00\02\00\00\00\01\00\00\009\01\00\00G\01\00\00\02\00\00\00\01\00\00\00J\01\00\00v\01\00\00\02\00\00\00\01\00\00\00x\01\00\00x\01\00\00\01\00\00\00\87\ff\ff\ffy\01\00\00}\01\00\00\02\00\00\00\01\00\00\00\81\01\00\00\81\01\00\00\01\00\00\00\d2\00\00\00\82\01\00\00\84\01\00\00\02\00\00\00\01\00\00\00\86\01\00\00\86\01\00\00\01\00\00\00\ce\00\00\00\87\01\00\00\87\01\00\00\01\00\00\00\01\00\00\00\89\01\00\00\8a\01\00\00\01\00\00\00\cd\00\00\00\8b\01\00\00\8b\01\00\00\01\00\00\00\01\00\00\00\8e\01\00\00\8e\01\00\00\01\00\00\00O\00\00\00\8f\01\00\00\8f\01\00\00\01\00\00\00\ca\00\00\00\90\01\00\00\90\01\00\00\01\00\00\00\cb\00\00\00\91\01\00\00\91\01\00\00\01\00\00\00\01\00\00\00\93\01\00\00\93\01\00\00\01\00\00\00\cd\00\00\00\94\01\00\00\94\01\00\00\01\00\00\00\cf\00\00\00\96\01\00\00\96\01\00\00\01\00\00\00\d3\00\00\00\97\01\00\00\97\01\00\00\01\00\00\00\d1\00\00\00\98\01\00\00\98\01\00\00\01\00\00\00\01\00\00\00\9c\01\00\00\9c\01\00\00\01\00\00\00\d3\00\00\00\9d\01\00\00\9d\01\00\00\01\00\00\00\d5\00\00\00\9f\01\00\00\9f\01\00\00\01\00\00\00\d6\00\00\00\a0\01\00\00\a4\01\00\00\02\00\00\00\01\00\00\00\a6\01\00\00\a6\01\00\00\01\00\00\00\da\00\00\00\a7\01\00\00\a7\01\00\00\01\00\00\00\01\00\00\00\a9\01\00\00\a9\01\00\00\01\00\00\00\da\00\00\00\ac\01\00\00\ac\01\00\00\01\00\00\00\01\00\00\00\ae\01\00\00\ae\01\00\00\01\00\00\00\da\00\00\00\af\01\00\00\af\01\00\00\01\00\00\00\01\00\00\00\b1\01\00\00\b2\01\00\00\01\00\00\00\d9\00\00\00\b3\01\00\00\b5\01\00\00\02\00\00\00\01\00\00\00\b7\01\00\00\b7\01\00\00\01\00\00\00\db\00\00\00\b8\01\00\00\b8\01\00\00\01\00\00\00\01\00\00\00\bc\01\00\00\bc\01\00\00\01\00\00\00\01\00\00\00\c4\01\00\00\c4\01\00\00\01\00\00\00\02\00\00\00\c5\01\00\00\c5\01\00\00\01\00\00\00\01\00\00\00\c7\01\00\00\c7\01\00\00\01\00\00\00\02\00\00\00\c8\01\00\00\c8\01\00\00\01\00\00\00\01\00\00\00\ca\01\00\00\ca\01\00\00\01\00\00\00\02\00\00\00\cb\01\00\00\db\01\00\00\02\00\00\00\01\00\00\00\de\01\00\00\ee\01\00\00\02\00\00\00\01\00\00\00\f1\01\00\00\f1\01\00\00\01\00\00\00\02\00\00\00\f2\01\00\00\f4\01\00\00\02\00\00\00\01\00\00\00\f6\01\00\00\f6\01\00\00\01\00\00\00\9f\ff\ff\ff\f7\01\00\00\f7\01\00\00\01\00\00\00\c8\ff\ff\ff\f8\01\00\00\1e\02\00\00\02\00\00\00\01\00\00\00 \02\00\00 \02\00\00\01\00\00\00~\ff\ff\ff\"\02\00\002\02\00\00\02\00\00\00\01\00\00\00:\02\00\00:\02\00\00\01\00\00\00+*\00\00;\02\00\00;\02\00\00\01\00\00\00\01\00\00\00=\02\00\00=\02\00\00\01\00\00\00]\ff\ff\ff>\02\00\00>\02\00\00\01\00\00\00(*\00\00A\02\00\00A\02\00\00\01\00\00\00\01\00\00\00C\02\00\00C\02\00\00\01\00\00\00=\ff\ff\ffD\02\00\00D\02\00\00\01\00\00\00E\00\00\00E\02\00\00E\02\00\00\01\00\00\00G\00\00\00F\02\00\00N\02\00\00\02\00\00\00\01\00\00\00p\03\00\00r\03\00\00\02\00\00\00\01\00\00\00v\03\00\00v\03\00\00\01\00\00\00\01\00\00\00\7f\03\00\00\7f\03\00\00\01\00\00\00t\00\00\00\86\03\00\00\86\03\00\00\01\00\00\00&\00\00\00\88\03\00\00\8a\03\00\00\01\00\00\00%\00\00\00\8c\03\00\00\8c\03\00\00\01\00\00\00@\00\00\00\8e\03\00\00\8f\03\00\00\01\00\00\00?\00\00\00\91\03\00\00\a1\03\00\00\01\00\00\00 \00\00\00\a3\03\00\00\ab\03\00\00\01\00\00\00 \00\00\00\cf\03\00\00\cf\03\00\00\01\00\00\00\08\00\00\00\d8\03\00\00\ee\03\00\00\02\00\00\00\01\00\00\00\f4\03\00\00\f4\03\00\00\01\00\00\00\c4\ff\ff\ff\f7\03\00\00\f7\03\00\00\01\00\00\00\01\00\00\00\f9\03\00\00\f9\03\00\00\01\00\00\00\f9\ff\ff\ff\fa\03\00\00\fa\03\00\00\01\00\00\00\01\00\00\00\fd\03\00\00\ff\03\00\00\01\00\00\00~\ff\ff\ff\00\04\00\00\0f\04\00\00\01\00\00\00P\00\00\00\10\04\00\00/\04\00\00\01\00\00\00 \00\00\00`\04\00\00\80\04\00\00\02\00\00\00\01\00\00\00\8a\04\00\00\be\04\00\00\02\00\00\00\01\00\00\00\c0\04\00\00\c0\04\00\00\01\00\00\00\0f\00\00\00\c1\04\00\00\cd\04\00\00\02\00\00\00\01\00\00\00\d0\04\00\00.\05\00\00\02\00\00\00\01\00\00\001\05\00\00V\05\00\00\01\00\00\000\00\00\00\a0\10\00\00\c5\10\00\00\01\00\00\00`\1c\00\00\c7\10\00\00\c7\10\00\00\01\00\00\00`\1c\00\00\cd\10\00\00\cd\10\00\00\01\00\00\00`\1c\00\00\a0\13\00\00\ef\13\00\00\01\00\00\00\d0\97\00\00\f0\13\00\00\f5\13\00\00\01\00\00\00\08\00\00\00\89\1c\00\00\89\1c\00\00\01\00\00\00\01\00\00\00\90\1c\00\00\ba\1c\00\00\01\00\00\00@\f4\ff\ff\bd\1c\00\00\bf\1c\00\00\01\00\00\00@\f4\ff\ff\00\1e\00\00\94\1e\00\00\02\00\00\00\01\00\00\00\9e\1e\00\00\9e\1e\00\00\01\00\00\00A\e2\ff\ff\a0\1e\00\00\fe\1e\00\00\02\00\00\00\01\00\00\00\08\1f\00\00\0f\1f\00\00\01\00\00\00\f8\ff\ff\ff\18\1f\00\00\1d\1f\00\00\01\00\00\00\f8\ff\ff\ff(\1f\00\00/\1f\00\00\01\00\00\00\f8\ff\ff\ff8\1f\00\00?\1f\00\00\01\00\00\00\f8\ff\ff\ffH\1f\00\00M\1f\00\00\01\00\00\00\f8\ff\ff\ffY\1f\00\00_\1f\00\00\02\00\00\00\f8\ff\ff\ffh\1f\00\00o\1f\00\00\01\00\00\00\f8\ff\ff\ff\88\1f\00\00\8f\1f\00\00\01\00\00\00\f8\ff\ff\ff\98\1f\00\00\9f\1f\00\00\01\00\00\00\f8\ff\ff\ff\a8\1f\00\00\af\1f\00\00\01\00\00\00\f8\ff\ff\ff\b8\1f\00\00\b9\1f\00\00\01\00\00\00\f8\ff\ff\ff\ba\1f\00\00\bb\1f\00\00\01\00\00\00\b6\ff\ff\ff\bc\1f\00\00\bc\1f\00\00\01\00\00\00\f7\ff\ff\ff\c8\1f\00\00\cb\1f\00\00\01\00\00\00\aa\ff\ff\ff\cc\1f\00\00\cc\1f\00\00\01\00\00\00\f7\ff\ff\ff\d8\1f\00\00\d9\1f\00\00\01\00\00\00\f8\ff\ff\ff\da\1f\00\00\db\1f\00\00\01\00\00\00\9c\ff\ff\ff\e8\1f\00\00\e9\1f\00\00\01\00\00\00\f8\ff\ff\ff\ea\1f\00\00\eb\1f\00\00\01\00\00\00\90\ff\ff\ff\ec\1f\00\00\ec\1f\00\00\01\00\00\00\f9\ff\ff\ff\f8\1f\00\00\f9\1f\00\00\01\00\00\00\80\ff\ff\ff\fa\1f\00\00\fb\1f\00\00\01\00\00\00\82\ff\ff\ff\fc\1f\00\00\fc\1f\00\00\01\00\00\00\f7\ff\ff\ff&!\00\00&!\00\00\01\00\00\00\a3\e2\ff\ff*!\00\00*!\00\00\01\00\00\00A\df\ff\ff+!\00\00+!\00\00\01\00\00\00\ba\df\ff\ff2!\00\002!\00\00\01\00\00\00\1c\00\00\00`!\00\00o!\00\00\01\00\00\00\10\00\00\00\83!\00\00\83!\00\00\01\00\00\00\01\00\00\00\b6$\00\00\cf$\00\00\01\00\00\00\1a\00\00\00\00,\00\00/,\00\00\01\00\00\000\00\00\00`,\00\00`,\00\00\01\00\00\00\01\00\00\00b,\00\00b,\00\00\01\00\00\00\t\d6\ff\ffc,\00\00c,\00\00\01\00\00\00\1a\f1\ff\ffd,\00\00d,\00\00\01\00\00\00\19\d6\ff\ffg,\00\00k,\00\00\02\00\00\00\01\00\00\00m,\00\00m,\00\00\01\00\00\00\e4\d5\ff\ffn,\00\00n,\00\00\01\00\00\00\03\d6\ff\ffo,\00\00o,\00\00\01\00\00\00\e1\d5\ff\ffp,\00\00p,\00\00\01\00\00\00\e2\d5\ff\ffr,\00\00r,\00\00\01\00\00\00\01\00\00\00u,\00\00u,\00\00\01\00\00\00\01\00\00\00~,\00\00\7f,\00\00\01\00\00\00\c1\d5\ff\ff\80,\00\00\e2,\00\00\02\00\00\00\01\00\00\00\eb,\00\00\ed,\00\00\02\00\00\00\01\00\00\00\f2,\00\00\f2,\00\00\01\00\00\00\01\00\00\00@\a6\00\00l\a6\00\00\02\00\00\00\01\00\00\00\80\a6\00\00\9a\a6\00\00\02\00\00\00\01\00\00\00\"\a7\00\00.\a7\00\00\02\00\00\00\01\00\00\002\a7\00\00n\a7\00\00\02\00\00\00\01\00\00\00y\a7\00\00{\a7\00\00\02\00\00\00\01\00\00\00}\a7\00\00}\a7\00\00\01\00\00\00\fcu\ff\ff~\a7\00\00\86\a7\00\00\02\00\00\00\01\00\00\00\8b\a7\00\00\8b\a7\00\00\01\00\00\00\01\00\00\00\8d\a7\00\00\8d\a7\00\00\01\00\00\00\d8Z\ff\ff\90\a7\00\00\92\a7\00\00\02\00\00\00\01\00\00\00\96\a7\00\00\a8\a7\00\00\02\00\00\00\01\00\00\00\aa\a7\00\00\aa\a7\00\00\01\00\00\00\bcZ\ff\ff\ab\a7\00\00\ab\a7\00\00\01\00\00\00\b1Z\ff\ff\ac\a7\00\00\ac\a7\00\00\01\00\00\00\b5Z\ff\ff\ad\a7\00\00\ad\a7\00\00\01\00\00\00\bfZ\ff\ff\ae\a7\00\00\ae\a7\00\00\01\00\00\00\bcZ\ff\ff\b0\a7\00\00\b0\a7\00\00\01\00\00\00\eeZ\ff\ff\b1\a7\00\00\b1\a7\00\00\01\00\00\00\d6Z\ff\ff\b2\a7\00\00\b2\a7\00\00\01\00\00\00\ebZ\ff\ff\b3\a7\00\00\b3\a7\00\00\01\00\00\00\a0\03\00\00\b4\a7\00\00\c2\a7\00\00\02\00\00\00\01\00\00\00\c4\a7\00\00\c4\a7\00\00\01\00\00\00\d0\ff\ff\ff\c5\a7\00\00\c5\a7\00\00\01\00\00\00\bdZ\ff\ff\c6\a7\00\00\c6\a7\00\00\01\00\00\00\c8u\ff\ff\c7\a7\00\00\c9\a7\00\00\02\00\00\00\01\00\00\00\cb\a7\00\00\cb\a7\00\00\01\00\00\00\99Z\ff\ff\cc\a7\00\00\cc\a7\00\00\01\00\00\00\01\00\00\00\d0\a7\00\00\d0\a7\00\00\01\00\00\00\01\00\00\00\d6\a7\00\00\da\a7\00\00\02\00\00\00\01\00\00\00\dc\a7\00\00\dc\a7\00\00\01\00\00\00\bfY\ff\ff\f5\a7\00\00\f5\a7\00\00\01\00\00\00\01\00\00\00!\ff\00\00:\ff\00\00\01\00\00\00 \00\00\00\00\04\01\00\'\04\01\00\01\00\00\00(\00\00\00\b0\04\01\00\d3\04\01\00\01\00\00\00(\00\00\00p\05\01\00z\05\01\00\01\00\00\00\'\00\00\00|\05\01\00\8a\05\01\00\01\00\00\00\'\00\00\00\8c\05\01\00\92\05\01\00\01\00\00\00\'\00\00\00\94\05\01\00\95\05\01\00\01\00\00\00\'\00\00\00\80\0c\01\00\b2\0c\01\00\01\00\00\00@\00\00\00P\0d\01\00e\0d\01\00\01\00\00\00 \00\00\00\a0\18\01\00\bf\18\01\00\01\00\00\00 \00\00\00@n\01\00_n\01\00\01\00\00\00 \00\00\00\00\e9\01\00!\e9\01\00\01\00\00\00\"\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 8520) "H\11\00\00\e8\02\00\00")
+ (data (i32.const 8528) "`\06\00\00\00\00\00\00\df\00\00\00S\00\00\00S\00\00\00\00\00\00\00I\01\00\00\bc\02\00\00N\00\00\00\00\00\00\00\f0\01\00\00J\00\00\00\0c\03\00\00\00\00\00\00\90\03\00\00\99\03\00\00\08\03\00\00\01\03\00\00\b0\03\00\00\a5\03\00\00\08\03\00\00\01\03\00\00\87\05\00\005\05\00\00R\05\00\00\00\00\00\00\96\1e\00\00H\00\00\001\03\00\00\00\00\00\00\97\1e\00\00T\00\00\00\08\03\00\00\00\00\00\00\98\1e\00\00W\00\00\00\n\03\00\00\00\00\00\00\99\1e\00\00Y\00\00\00\n\03\00\00\00\00\00\00\9a\1e\00\00A\00\00\00\be\02\00\00\00\00\00\00P\1f\00\00\a5\03\00\00\13\03\00\00\00\00\00\00R\1f\00\00\a5\03\00\00\13\03\00\00\00\03\00\00T\1f\00\00\a5\03\00\00\13\03\00\00\01\03\00\00V\1f\00\00\a5\03\00\00\13\03\00\00B\03\00\00\80\1f\00\00\08\1f\00\00\99\03\00\00\00\00\00\00\81\1f\00\00\t\1f\00\00\99\03\00\00\00\00\00\00\82\1f\00\00\n\1f\00\00\99\03\00\00\00\00\00\00\83\1f\00\00\0b\1f\00\00\99\03\00\00\00\00\00\00\84\1f\00\00\0c\1f\00\00\99\03\00\00\00\00\00\00\85\1f\00\00\0d\1f\00\00\99\03\00\00\00\00\00\00\86\1f\00\00\0e\1f\00\00\99\03\00\00\00\00\00\00\87\1f\00\00\0f\1f\00\00\99\03\00\00\00\00\00\00\88\1f\00\00\08\1f\00\00\99\03\00\00\00\00\00\00\89\1f\00\00\t\1f\00\00\99\03\00\00\00\00\00\00\8a\1f\00\00\n\1f\00\00\99\03\00\00\00\00\00\00\8b\1f\00\00\0b\1f\00\00\99\03\00\00\00\00\00\00\8c\1f\00\00\0c\1f\00\00\99\03\00\00\00\00\00\00\8d\1f\00\00\0d\1f\00\00\99\03\00\00\00\00\00\00\8e\1f\00\00\0e\1f\00\00\99\03\00\00\00\00\00\00\8f\1f\00\00\0f\1f\00\00\99\03\00\00\00\00\00\00\90\1f\00\00(\1f\00\00\99\03\00\00\00\00\00\00\91\1f\00\00)\1f\00\00\99\03\00\00\00\00\00\00\92\1f\00\00*\1f\00\00\99\03\00\00\00\00\00\00\93\1f\00\00+\1f\00\00\99\03\00\00\00\00\00\00\94\1f\00\00,\1f\00\00\99\03\00\00\00\00\00\00\95\1f\00\00-\1f\00\00\99\03\00\00\00\00\00\00\96\1f\00\00.\1f\00\00\99\03\00\00\00\00\00\00\97\1f\00\00/\1f\00\00\99\03\00\00\00\00\00\00\98\1f\00\00(\1f\00\00\99\03\00\00\00\00\00\00\99\1f\00\00)\1f\00\00\99\03\00\00\00\00\00\00\9a\1f\00\00*\1f\00\00\99\03\00\00\00\00\00\00\9b\1f\00\00+\1f\00\00\99\03\00\00\00\00\00\00\9c\1f\00\00,\1f\00\00\99\03\00\00\00\00\00\00\9d\1f\00\00-\1f\00\00\99\03\00\00\00\00\00\00\9e\1f\00\00.\1f\00\00\99\03\00\00\00\00\00\00\9f\1f\00\00/\1f\00\00\99\03\00\00\00\00\00\00\a0\1f\00\00h\1f\00\00\99\03\00\00\00\00\00\00\a1\1f\00\00i\1f\00\00\99\03\00\00\00\00\00\00\a2\1f\00\00j\1f\00\00\99\03\00\00\00\00\00\00\a3\1f\00\00k\1f\00\00\99\03\00\00\00\00\00\00\a4\1f\00\00l\1f\00\00\99\03\00\00\00\00\00\00\a5\1f\00\00m\1f\00\00\99\03\00\00\00\00\00\00\a6\1f\00\00n\1f\00\00\99\03\00\00\00\00\00\00\a7\1f\00\00o\1f\00\00\99\03\00\00\00\00\00\00\a8\1f\00\00h\1f\00\00\99\03\00\00\00\00\00\00\a9\1f\00\00i\1f\00\00\99\03\00\00\00\00\00\00\aa\1f\00\00j\1f\00\00\99\03\00\00\00\00\00\00\ab\1f\00\00k\1f\00\00\99\03\00\00\00\00\00\00\ac\1f\00\00l\1f\00\00\99\03\00\00\00\00\00\00\ad\1f\00\00m\1f\00\00\99\03\00\00\00\00\00\00\ae\1f\00\00n\1f\00\00\99\03\00\00\00\00\00\00\af\1f\00\00o\1f\00\00\99\03\00\00\00\00\00\00\b2\1f\00\00\ba\1f\00\00\99\03\00\00\00\00\00\00\b3\1f\00\00\91\03\00\00\99\03\00\00\00\00\00\00\b4\1f\00\00\86\03\00\00\99\03\00\00\00\00\00\00\b6\1f\00\00\91\03\00\00B\03\00\00\00\00\00\00\b7\1f\00\00\91\03\00\00B\03\00\00\99\03\00\00\bc\1f\00\00\91\03\00\00\99\03\00\00\00\00\00\00\c2\1f\00\00\ca\1f\00\00\99\03\00\00\00\00\00\00\c3\1f\00\00\97\03\00\00\99\03\00\00\00\00\00\00\c4\1f\00\00\89\03\00\00\99\03\00\00\00\00\00\00\c6\1f\00\00\97\03\00\00B\03\00\00\00\00\00\00\c7\1f\00\00\97\03\00\00B\03\00\00\99\03\00\00\cc\1f\00\00\97\03\00\00\99\03\00\00\00\00\00\00\d2\1f\00\00\99\03\00\00\08\03\00\00\00\03\00\00\d3\1f\00\00\99\03\00\00\08\03\00\00\01\03\00\00\d6\1f\00\00\99\03\00\00B\03\00\00\00\00\00\00\d7\1f\00\00\99\03\00\00\08\03\00\00B\03\00\00\e2\1f\00\00\a5\03\00\00\08\03\00\00\00\03\00\00\e3\1f\00\00\a5\03\00\00\08\03\00\00\01\03\00\00\e4\1f\00\00\a1\03\00\00\13\03\00\00\00\00\00\00\e6\1f\00\00\a5\03\00\00B\03\00\00\00\00\00\00\e7\1f\00\00\a5\03\00\00\08\03\00\00B\03\00\00\f2\1f\00\00\fa\1f\00\00\99\03\00\00\00\00\00\00\f3\1f\00\00\a9\03\00\00\99\03\00\00\00\00\00\00\f4\1f\00\00\8f\03\00\00\99\03\00\00\00\00\00\00\f6\1f\00\00\a9\03\00\00B\03\00\00\00\00\00\00\f7\1f\00\00\a9\03\00\00B\03\00\00\99\03\00\00\fc\1f\00\00\a9\03\00\00\99\03\00\00\00\00\00\00\00\fb\00\00F\00\00\00F\00\00\00\00\00\00\00\01\fb\00\00F\00\00\00I\00\00\00\00\00\00\00\02\fb\00\00F\00\00\00L\00\00\00\00\00\00\00\03\fb\00\00F\00\00\00F\00\00\00I\00\00\00\04\fb\00\00F\00\00\00F\00\00\00L\00\00\00\05\fb\00\00S\00\00\00T\00\00\00\00\00\00\00\06\fb\00\00S\00\00\00T\00\00\00\00\00\00\00\13\fb\00\00D\05\00\00F\05\00\00\00\00\00\00\14\fb\00\00D\05\00\005\05\00\00\00\00\00\00\15\fb\00\00D\05\00\00;\05\00\00\00\00\00\00\16\fb\00\00N\05\00\00F\05\00\00\00\00\00\00\17\fb\00\00D\05\00\00=\05\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 10576) "P!\00\00\98\01\00\00")
+ (data (i32.const 10584) "\10\00\00\00\00\00\00\000\01\00\00i\00\00\00\07\03\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 10616) "X)\00\00\04\00\00\00")
+ (data (i32.const 10624) "\f8\04\00\00\00\00\00\00A\00\00\00Z\00\00\00a\00\00\00z\00\00\00\aa\00\00\00\aa\00\00\00\b5\00\00\00\b5\00\00\00\ba\00\00\00\ba\00\00\00\c0\00\00\00\d6\00\00\00\d8\00\00\00\f6\00\00\00\f8\00\00\00\ba\01\00\00\bc\01\00\00\bf\01\00\00\c4\01\00\00\93\02\00\00\95\02\00\00\b8\02\00\00\c0\02\00\00\c1\02\00\00\e0\02\00\00\e4\02\00\00E\03\00\00E\03\00\00p\03\00\00s\03\00\00v\03\00\00w\03\00\00z\03\00\00}\03\00\00\7f\03\00\00\7f\03\00\00\86\03\00\00\86\03\00\00\88\03\00\00\8a\03\00\00\8c\03\00\00\8c\03\00\00\8e\03\00\00\a1\03\00\00\a3\03\00\00\f5\03\00\00\f7\03\00\00\81\04\00\00\8a\04\00\00/\05\00\001\05\00\00V\05\00\00`\05\00\00\88\05\00\00\a0\10\00\00\c5\10\00\00\c7\10\00\00\c7\10\00\00\cd\10\00\00\cd\10\00\00\d0\10\00\00\fa\10\00\00\fc\10\00\00\ff\10\00\00\a0\13\00\00\f5\13\00\00\f8\13\00\00\fd\13\00\00\80\1c\00\00\8a\1c\00\00\90\1c\00\00\ba\1c\00\00\bd\1c\00\00\bf\1c\00\00\00\1d\00\00\bf\1d\00\00\00\1e\00\00\15\1f\00\00\18\1f\00\00\1d\1f\00\00 \1f\00\00E\1f\00\00H\1f\00\00M\1f\00\00P\1f\00\00W\1f\00\00Y\1f\00\00Y\1f\00\00[\1f\00\00[\1f\00\00]\1f\00\00]\1f\00\00_\1f\00\00}\1f\00\00\80\1f\00\00\b4\1f\00\00\b6\1f\00\00\bc\1f\00\00\be\1f\00\00\be\1f\00\00\c2\1f\00\00\c4\1f\00\00\c6\1f\00\00\cc\1f\00\00\d0\1f\00\00\d3\1f\00\00\d6\1f\00\00\db\1f\00\00\e0\1f\00\00\ec\1f\00\00\f2\1f\00\00\f4\1f\00\00\f6\1f\00\00\fc\1f\00\00q \00\00q \00\00\7f \00\00\7f \00\00\90 \00\00\9c \00\00\02!\00\00\02!\00\00\07!\00\00\07!\00\00\n!\00\00\13!\00\00\15!\00\00\15!\00\00\19!\00\00\1d!\00\00$!\00\00$!\00\00&!\00\00&!\00\00(!\00\00(!\00\00*!\00\00-!\00\00/!\00\004!\00\009!\00\009!\00\00<!\00\00?!\00\00E!\00\00I!\00\00N!\00\00N!\00\00`!\00\00\7f!\00\00\83!\00\00\84!\00\00\b6$\00\00\e9$\00\00\00,\00\00\e4,\00\00\eb,\00\00\ee,\00\00\f2,\00\00\f3,\00\00\00-\00\00%-\00\00\'-\00\00\'-\00\00--\00\00--\00\00@\a6\00\00m\a6\00\00\80\a6\00\00\9d\a6\00\00\"\a7\00\00\87\a7\00\00\8b\a7\00\00\8e\a7\00\00\90\a7\00\00\cd\a7\00\00\d0\a7\00\00\d1\a7\00\00\d3\a7\00\00\d3\a7\00\00\d5\a7\00\00\dc\a7\00\00\f2\a7\00\00\f6\a7\00\00\f8\a7\00\00\fa\a7\00\000\ab\00\00Z\ab\00\00\\\ab\00\00i\ab\00\00p\ab\00\00\bf\ab\00\00\00\fb\00\00\06\fb\00\00\13\fb\00\00\17\fb\00\00!\ff\00\00:\ff\00\00A\ff\00\00Z\ff\00\00\00\04\01\00O\04\01\00\b0\04\01\00\d3\04\01\00\d8\04\01\00\fb\04\01\00p\05\01\00z\05\01\00|\05\01\00\8a\05\01\00\8c\05\01\00\92\05\01\00\94\05\01\00\95\05\01\00\97\05\01\00\a1\05\01\00\a3\05\01\00\b1\05\01\00\b3\05\01\00\b9\05\01\00\bb\05\01\00\bc\05\01\00\80\07\01\00\80\07\01\00\83\07\01\00\85\07\01\00\87\07\01\00\b0\07\01\00\b2\07\01\00\ba\07\01\00\80\0c\01\00\b2\0c\01\00\c0\0c\01\00\f2\0c\01\00P\0d\01\00e\0d\01\00p\0d\01\00\85\0d\01\00\a0\18\01\00\df\18\01\00@n\01\00\7fn\01\00\00\d4\01\00T\d4\01\00V\d4\01\00\9c\d4\01\00\9e\d4\01\00\9f\d4\01\00\a2\d4\01\00\a2\d4\01\00\a5\d4\01\00\a6\d4\01\00\a9\d4\01\00\ac\d4\01\00\ae\d4\01\00\b9\d4\01\00\bb\d4\01\00\bb\d4\01\00\bd\d4\01\00\c3\d4\01\00\c5\d4\01\00\05\d5\01\00\07\d5\01\00\n\d5\01\00\0d\d5\01\00\14\d5\01\00\16\d5\01\00\1c\d5\01\00\1e\d5\01\009\d5\01\00;\d5\01\00>\d5\01\00@\d5\01\00D\d5\01\00F\d5\01\00F\d5\01\00J\d5\01\00P\d5\01\00R\d5\01\00\a5\d6\01\00\a8\d6\01\00\c0\d6\01\00\c2\d6\01\00\da\d6\01\00\dc\d6\01\00\fa\d6\01\00\fc\d6\01\00\14\d7\01\00\16\d7\01\004\d7\01\006\d7\01\00N\d7\01\00P\d7\01\00n\d7\01\00p\d7\01\00\88\d7\01\00\8a\d7\01\00\a8\d7\01\00\aa\d7\01\00\c2\d7\01\00\c4\d7\01\00\cb\d7\01\00\00\df\01\00\t\df\01\00\0b\df\01\00\1e\df\01\00%\df\01\00*\df\01\000\e0\01\00m\e0\01\00\00\e9\01\00C\e9\01\000\f1\01\00I\f1\01\00P\f1\01\00i\f1\01\00p\f1\01\00\89\f1\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 12672) "\80)\00\00>\01\00\00")
+ (data (i32.const 12680) " \0e\00\00\00\00\00\00\'\00\00\00\'\00\00\00.\00\00\00.\00\00\00:\00\00\00:\00\00\00^\00\00\00^\00\00\00`\00\00\00`\00\00\00\a8\00\00\00\a8\00\00\00\ad\00\00\00\ad\00\00\00\af\00\00\00\af\00\00\00\b4\00\00\00\b4\00\00\00\b7\00\00\00\b8\00\00\00\b0\02\00\00o\03\00\00t\03\00\00u\03\00\00z\03\00\00z\03\00\00\84\03\00\00\85\03\00\00\87\03\00\00\87\03\00\00\83\04\00\00\89\04\00\00Y\05\00\00Y\05\00\00_\05\00\00_\05\00\00\91\05\00\00\bd\05\00\00\bf\05\00\00\bf\05\00\00\c1\05\00\00\c2\05\00\00\c4\05\00\00\c5\05\00\00\c7\05\00\00\c7\05\00\00\f4\05\00\00\f4\05\00\00\00\06\00\00\05\06\00\00\10\06\00\00\1a\06\00\00\1c\06\00\00\1c\06\00\00@\06\00\00@\06\00\00K\06\00\00_\06\00\00p\06\00\00p\06\00\00\d6\06\00\00\dd\06\00\00\df\06\00\00\e8\06\00\00\ea\06\00\00\ed\06\00\00\0f\07\00\00\0f\07\00\00\11\07\00\00\11\07\00\000\07\00\00J\07\00\00\a6\07\00\00\b0\07\00\00\eb\07\00\00\f5\07\00\00\fa\07\00\00\fa\07\00\00\fd\07\00\00\fd\07\00\00\16\08\00\00-\08\00\00Y\08\00\00[\08\00\00\88\08\00\00\88\08\00\00\90\08\00\00\91\08\00\00\97\08\00\00\9f\08\00\00\c9\08\00\00\02\t\00\00:\t\00\00:\t\00\00<\t\00\00<\t\00\00A\t\00\00H\t\00\00M\t\00\00M\t\00\00Q\t\00\00W\t\00\00b\t\00\00c\t\00\00q\t\00\00q\t\00\00\81\t\00\00\81\t\00\00\bc\t\00\00\bc\t\00\00\c1\t\00\00\c4\t\00\00\cd\t\00\00\cd\t\00\00\e2\t\00\00\e3\t\00\00\fe\t\00\00\fe\t\00\00\01\n\00\00\02\n\00\00<\n\00\00<\n\00\00A\n\00\00B\n\00\00G\n\00\00H\n\00\00K\n\00\00M\n\00\00Q\n\00\00Q\n\00\00p\n\00\00q\n\00\00u\n\00\00u\n\00\00\81\n\00\00\82\n\00\00\bc\n\00\00\bc\n\00\00\c1\n\00\00\c5\n\00\00\c7\n\00\00\c8\n\00\00\cd\n\00\00\cd\n\00\00\e2\n\00\00\e3\n\00\00\fa\n\00\00\ff\n\00\00\01\0b\00\00\01\0b\00\00<\0b\00\00<\0b\00\00?\0b\00\00?\0b\00\00A\0b\00\00D\0b\00\00M\0b\00\00M\0b\00\00U\0b\00\00V\0b\00\00b\0b\00\00c\0b\00\00\82\0b\00\00\82\0b\00\00\c0\0b\00\00\c0\0b\00\00\cd\0b\00\00\cd\0b\00\00\00\0c\00\00\00\0c\00\00\04\0c\00\00\04\0c\00\00<\0c\00\00<\0c\00\00>\0c\00\00@\0c\00\00F\0c\00\00H\0c\00\00J\0c\00\00M\0c\00\00U\0c\00\00V\0c\00\00b\0c\00\00c\0c\00\00\81\0c\00\00\81\0c\00\00\bc\0c\00\00\bc\0c\00\00\bf\0c\00\00\bf\0c\00\00\c6\0c\00\00\c6\0c\00\00\cc\0c\00\00\cd\0c\00\00\e2\0c\00\00\e3\0c\00\00\00\0d\00\00\01\0d\00\00;\0d\00\00<\0d\00\00A\0d\00\00D\0d\00\00M\0d\00\00M\0d\00\00b\0d\00\00c\0d\00\00\81\0d\00\00\81\0d\00\00\ca\0d\00\00\ca\0d\00\00\d2\0d\00\00\d4\0d\00\00\d6\0d\00\00\d6\0d\00\001\0e\00\001\0e\00\004\0e\00\00:\0e\00\00F\0e\00\00N\0e\00\00\b1\0e\00\00\b1\0e\00\00\b4\0e\00\00\bc\0e\00\00\c6\0e\00\00\c6\0e\00\00\c8\0e\00\00\ce\0e\00\00\18\0f\00\00\19\0f\00\005\0f\00\005\0f\00\007\0f\00\007\0f\00\009\0f\00\009\0f\00\00q\0f\00\00~\0f\00\00\80\0f\00\00\84\0f\00\00\86\0f\00\00\87\0f\00\00\8d\0f\00\00\97\0f\00\00\99\0f\00\00\bc\0f\00\00\c6\0f\00\00\c6\0f\00\00-\10\00\000\10\00\002\10\00\007\10\00\009\10\00\00:\10\00\00=\10\00\00>\10\00\00X\10\00\00Y\10\00\00^\10\00\00`\10\00\00q\10\00\00t\10\00\00\82\10\00\00\82\10\00\00\85\10\00\00\86\10\00\00\8d\10\00\00\8d\10\00\00\9d\10\00\00\9d\10\00\00\fc\10\00\00\fc\10\00\00]\13\00\00_\13\00\00\12\17\00\00\14\17\00\002\17\00\003\17\00\00R\17\00\00S\17\00\00r\17\00\00s\17\00\00\b4\17\00\00\b5\17\00\00\b7\17\00\00\bd\17\00\00\c6\17\00\00\c6\17\00\00\c9\17\00\00\d3\17\00\00\d7\17\00\00\d7\17\00\00\dd\17\00\00\dd\17\00\00\0b\18\00\00\0f\18\00\00C\18\00\00C\18\00\00\85\18\00\00\86\18\00\00\a9\18\00\00\a9\18\00\00 \19\00\00\"\19\00\00\'\19\00\00(\19\00\002\19\00\002\19\00\009\19\00\00;\19\00\00\17\1a\00\00\18\1a\00\00\1b\1a\00\00\1b\1a\00\00V\1a\00\00V\1a\00\00X\1a\00\00^\1a\00\00`\1a\00\00`\1a\00\00b\1a\00\00b\1a\00\00e\1a\00\00l\1a\00\00s\1a\00\00|\1a\00\00\7f\1a\00\00\7f\1a\00\00\a7\1a\00\00\a7\1a\00\00\b0\1a\00\00\ce\1a\00\00\00\1b\00\00\03\1b\00\004\1b\00\004\1b\00\006\1b\00\00:\1b\00\00<\1b\00\00<\1b\00\00B\1b\00\00B\1b\00\00k\1b\00\00s\1b\00\00\80\1b\00\00\81\1b\00\00\a2\1b\00\00\a5\1b\00\00\a8\1b\00\00\a9\1b\00\00\ab\1b\00\00\ad\1b\00\00\e6\1b\00\00\e6\1b\00\00\e8\1b\00\00\e9\1b\00\00\ed\1b\00\00\ed\1b\00\00\ef\1b\00\00\f1\1b\00\00,\1c\00\003\1c\00\006\1c\00\007\1c\00\00x\1c\00\00}\1c\00\00\d0\1c\00\00\d2\1c\00\00\d4\1c\00\00\e0\1c\00\00\e2\1c\00\00\e8\1c\00\00\ed\1c\00\00\ed\1c\00\00\f4\1c\00\00\f4\1c\00\00\f8\1c\00\00\f9\1c\00\00,\1d\00\00j\1d\00\00x\1d\00\00x\1d\00\00\9b\1d\00\00\ff\1d\00\00\bd\1f\00\00\bd\1f\00\00\bf\1f\00\00\c1\1f\00\00\cd\1f\00\00\cf\1f\00\00\dd\1f\00\00\df\1f\00\00\ed\1f\00\00\ef\1f\00\00\fd\1f\00\00\fe\1f\00\00\0b \00\00\0f \00\00\18 \00\00\19 \00\00$ \00\00$ \00\00\' \00\00\' \00\00* \00\00. \00\00` \00\00d \00\00f \00\00o \00\00q \00\00q \00\00\7f \00\00\7f \00\00\90 \00\00\9c \00\00\d0 \00\00\f0 \00\00|,\00\00},\00\00\ef,\00\00\f1,\00\00o-\00\00o-\00\00\7f-\00\00\7f-\00\00\e0-\00\00\ff-\00\00/.\00\00/.\00\00\050\00\00\050\00\00*0\00\00-0\00\0010\00\0050\00\00;0\00\00;0\00\00\990\00\00\9e0\00\00\fc0\00\00\fe0\00\00\15\a0\00\00\15\a0\00\00\f8\a4\00\00\fd\a4\00\00\0c\a6\00\00\0c\a6\00\00o\a6\00\00r\a6\00\00t\a6\00\00}\a6\00\00\7f\a6\00\00\7f\a6\00\00\9c\a6\00\00\9f\a6\00\00\f0\a6\00\00\f1\a6\00\00\00\a7\00\00!\a7\00\00p\a7\00\00p\a7\00\00\88\a7\00\00\8a\a7\00\00\f2\a7\00\00\f4\a7\00\00\f8\a7\00\00\f9\a7\00\00\02\a8\00\00\02\a8\00\00\06\a8\00\00\06\a8\00\00\0b\a8\00\00\0b\a8\00\00%\a8\00\00&\a8\00\00,\a8\00\00,\a8\00\00\c4\a8\00\00\c5\a8\00\00\e0\a8\00\00\f1\a8\00\00\ff\a8\00\00\ff\a8\00\00&\a9\00\00-\a9\00\00G\a9\00\00Q\a9\00\00\80\a9\00\00\82\a9\00\00\b3\a9\00\00\b3\a9\00\00\b6\a9\00\00\b9\a9\00\00\bc\a9\00\00\bd\a9\00\00\cf\a9\00\00\cf\a9\00\00\e5\a9\00\00\e6\a9\00\00)\aa\00\00.\aa\00\001\aa\00\002\aa\00\005\aa\00\006\aa\00\00C\aa\00\00C\aa\00\00L\aa\00\00L\aa\00\00p\aa\00\00p\aa\00\00|\aa\00\00|\aa\00\00\b0\aa\00\00\b0\aa\00\00\b2\aa\00\00\b4\aa\00\00\b7\aa\00\00\b8\aa\00\00\be\aa\00\00\bf\aa\00\00\c1\aa\00\00\c1\aa\00\00\dd\aa\00\00\dd\aa\00\00\ec\aa\00\00\ed\aa\00\00\f3\aa\00\00\f4\aa\00\00\f6\aa\00\00\f6\aa\00\00[\ab\00\00_\ab\00\00i\ab\00\00k\ab\00\00\e5\ab\00\00\e5\ab\00\00\e8\ab\00\00\e8\ab\00\00\ed\ab\00\00\ed\ab\00\00\1e\fb\00\00\1e\fb\00\00\b2\fb\00\00\c2\fb\00\00\00\fe\00\00\0f\fe\00\00\13\fe\00\00\13\fe\00\00 \fe\00\00/\fe\00\00R\fe\00\00R\fe\00\00U\fe\00\00U\fe\00\00\ff\fe\00\00\ff\fe\00\00\07\ff\00\00\07\ff\00\00\0e\ff\00\00\0e\ff\00\00\1a\ff\00\00\1a\ff\00\00>\ff\00\00>\ff\00\00@\ff\00\00@\ff\00\00p\ff\00\00p\ff\00\00\9e\ff\00\00\9f\ff\00\00\e3\ff\00\00\e3\ff\00\00\f9\ff\00\00\fb\ff\00\00\fd\01\01\00\fd\01\01\00\e0\02\01\00\e0\02\01\00v\03\01\00z\03\01\00\80\07\01\00\85\07\01\00\87\07\01\00\b0\07\01\00\b2\07\01\00\ba\07\01\00\01\n\01\00\03\n\01\00\05\n\01\00\06\n\01\00\0c\n\01\00\0f\n\01\008\n\01\00:\n\01\00?\n\01\00?\n\01\00\e5\n\01\00\e6\n\01\00$\0d\01\00\'\0d\01\00N\0d\01\00N\0d\01\00i\0d\01\00m\0d\01\00o\0d\01\00o\0d\01\00\ab\0e\01\00\ac\0e\01\00\fc\0e\01\00\ff\0e\01\00F\0f\01\00P\0f\01\00\82\0f\01\00\85\0f\01\00\01\10\01\00\01\10\01\008\10\01\00F\10\01\00p\10\01\00p\10\01\00s\10\01\00t\10\01\00\7f\10\01\00\81\10\01\00\b3\10\01\00\b6\10\01\00\b9\10\01\00\ba\10\01\00\bd\10\01\00\bd\10\01\00\c2\10\01\00\c2\10\01\00\cd\10\01\00\cd\10\01\00\00\11\01\00\02\11\01\00\'\11\01\00+\11\01\00-\11\01\004\11\01\00s\11\01\00s\11\01\00\80\11\01\00\81\11\01\00\b6\11\01\00\be\11\01\00\c9\11\01\00\cc\11\01\00\cf\11\01\00\cf\11\01\00/\12\01\001\12\01\004\12\01\004\12\01\006\12\01\007\12\01\00>\12\01\00>\12\01\00A\12\01\00A\12\01\00\df\12\01\00\df\12\01\00\e3\12\01\00\ea\12\01\00\00\13\01\00\01\13\01\00;\13\01\00<\13\01\00@\13\01\00@\13\01\00f\13\01\00l\13\01\00p\13\01\00t\13\01\00\bb\13\01\00\c0\13\01\00\ce\13\01\00\ce\13\01\00\d0\13\01\00\d0\13\01\00\d2\13\01\00\d2\13\01\00\e1\13\01\00\e2\13\01\008\14\01\00?\14\01\00B\14\01\00D\14\01\00F\14\01\00F\14\01\00^\14\01\00^\14\01\00\b3\14\01\00\b8\14\01\00\ba\14\01\00\ba\14\01\00\bf\14\01\00\c0\14\01\00\c2\14\01\00\c3\14\01\00\b2\15\01\00\b5\15\01\00\bc\15\01\00\bd\15\01\00\bf\15\01\00\c0\15\01\00\dc\15\01\00\dd\15\01\003\16\01\00:\16\01\00=\16\01\00=\16\01\00?\16\01\00@\16\01\00\ab\16\01\00\ab\16\01\00\ad\16\01\00\ad\16\01\00\b0\16\01\00\b5\16\01\00\b7\16\01\00\b7\16\01\00\1d\17\01\00\1d\17\01\00\1f\17\01\00\1f\17\01\00\"\17\01\00%\17\01\00\'\17\01\00+\17\01\00/\18\01\007\18\01\009\18\01\00:\18\01\00;\19\01\00<\19\01\00>\19\01\00>\19\01\00C\19\01\00C\19\01\00\d4\19\01\00\d7\19\01\00\da\19\01\00\db\19\01\00\e0\19\01\00\e0\19\01\00\01\1a\01\00\n\1a\01\003\1a\01\008\1a\01\00;\1a\01\00>\1a\01\00G\1a\01\00G\1a\01\00Q\1a\01\00V\1a\01\00Y\1a\01\00[\1a\01\00\8a\1a\01\00\96\1a\01\00\98\1a\01\00\99\1a\01\000\1c\01\006\1c\01\008\1c\01\00=\1c\01\00?\1c\01\00?\1c\01\00\92\1c\01\00\a7\1c\01\00\aa\1c\01\00\b0\1c\01\00\b2\1c\01\00\b3\1c\01\00\b5\1c\01\00\b6\1c\01\001\1d\01\006\1d\01\00:\1d\01\00:\1d\01\00<\1d\01\00=\1d\01\00?\1d\01\00E\1d\01\00G\1d\01\00G\1d\01\00\90\1d\01\00\91\1d\01\00\95\1d\01\00\95\1d\01\00\97\1d\01\00\97\1d\01\00\f3\1e\01\00\f4\1e\01\00\00\1f\01\00\01\1f\01\006\1f\01\00:\1f\01\00@\1f\01\00@\1f\01\00B\1f\01\00B\1f\01\00Z\1f\01\00Z\1f\01\0004\01\00@4\01\00G4\01\00U4\01\00\1ea\01\00)a\01\00-a\01\00/a\01\00\f0j\01\00\f4j\01\000k\01\006k\01\00@k\01\00Ck\01\00@m\01\00Bm\01\00km\01\00lm\01\00Oo\01\00Oo\01\00\8fo\01\00\9fo\01\00\e0o\01\00\e1o\01\00\e3o\01\00\e4o\01\00\f0\af\01\00\f3\af\01\00\f5\af\01\00\fb\af\01\00\fd\af\01\00\fe\af\01\00\9d\bc\01\00\9e\bc\01\00\a0\bc\01\00\a3\bc\01\00\00\cf\01\00-\cf\01\000\cf\01\00F\cf\01\00g\d1\01\00i\d1\01\00s\d1\01\00\82\d1\01\00\85\d1\01\00\8b\d1\01\00\aa\d1\01\00\ad\d1\01\00B\d2\01\00D\d2\01\00\00\da\01\006\da\01\00;\da\01\00l\da\01\00u\da\01\00u\da\01\00\84\da\01\00\84\da\01\00\9b\da\01\00\9f\da\01\00\a1\da\01\00\af\da\01\00\00\e0\01\00\06\e0\01\00\08\e0\01\00\18\e0\01\00\1b\e0\01\00!\e0\01\00#\e0\01\00$\e0\01\00&\e0\01\00*\e0\01\000\e0\01\00m\e0\01\00\8f\e0\01\00\8f\e0\01\000\e1\01\00=\e1\01\00\ae\e2\01\00\ae\e2\01\00\ec\e2\01\00\ef\e2\01\00\eb\e4\01\00\ef\e4\01\00\ee\e5\01\00\ef\e5\01\00\d0\e8\01\00\d6\e8\01\00D\e9\01\00K\e9\01\00\fb\f3\01\00\ff\f3\01\00\01\00\0e\00\01\00\0e\00 \00\0e\00\7f\00\0e\00\00\01\0e\00\ef\01\0e\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 16776) "\881\00\00\88\03\00\00")
+ (data (i32.const 16784) "\04\00\00\00u\00t\00f\008\00")
+ (data (i32.const 16800) "\11\00\00\00u\00n\00i\00c\00o\00d\00e\00-\001\00-\001\00-\00u\00t\00f\00-\008\00")
+ (data (i32.const 16840) "\0d\00\00\00u\00n\00i\00c\00o\00d\00e\001\001\00u\00t\00f\008\00")
+ (data (i32.const 16872) "\0d\00\00\00u\00n\00i\00c\00o\00d\00e\002\000\00u\00t\00f\008\00")
+ (data (i32.const 16904) "\0f\00\00\00x\00-\00u\00n\00i\00c\00o\00d\00e\002\000\00u\00t\00f\008\00")
+ (data (i32.const 16944) "\08\00\00\00u\00t\00f\00-\001\006\00l\00e\00")
+ (data (i32.const 16968) "\06\00\00\00u\00t\00f\00-\001\006\00")
+ (data (i32.const 16984) "\07\00\00\00u\00n\00i\00c\00o\00d\00e\00")
+ (data (i32.const 17008) "\0b\00\00\00u\00n\00i\00c\00o\00d\00e\00f\00e\00f\00f\00")
+ (data (i32.const 17040) "\05\00\00\00u\00c\00s\00-\002\00")
+ (data (i32.const 17056) "\t\00\00\00c\00s\00u\00n\00i\00c\00o\00d\00e\00")
+ (data (i32.const 17080) "\0f\00\00\00i\00s\00o\00-\001\000\006\004\006\00-\00u\00c\00s\00-\002\00")
+ (data (i32.const 17120) "\0c\00\00\00w\00i\00n\00d\00o\00w\00s\00-\001\002\005\002\00")
+ (data (i32.const 17152) "\06\00\00\00l\00a\00t\00i\00n\001\00")
+ (data (i32.const 17168) "\n\00\00\00i\00s\00o\00-\008\008\005\009\00-\001\00")
+ (data (i32.const 17192) "\05\00\00\00a\00s\00c\00i\00i\00")
+ (data (i32.const 17208) "\08\00\00\00u\00s\00-\00a\00s\00c\00i\00i\00")
+ (data (i32.const 17232) "\02\00\00\00l\001\00")
+ (data (i32.const 17240) "\06\00\00\00c\00p\001\002\005\002\00")
+ (data (i32.const 17256) "\08\00\00\00x\00-\00c\00p\001\002\005\002\00")
+ (data (i32.const 17280) "\05\00\00\00c\00p\008\001\009\00")
+ (data (i32.const 17296) "\06\00\00\00i\00b\00m\008\001\009\00")
+ (data (i32.const 17312) "\t\00\00\00i\00s\00o\008\008\005\009\00-\001\00")
+ (data (i32.const 17336) "\08\00\00\00i\00s\00o\008\008\005\009\001\00")
+ (data (i32.const 17360) "\n\00\00\00i\00s\00o\00_\008\008\005\009\00-\001\00")
+ (data (i32.const 17384) "\0f\00\00\00i\00s\00o\00_\008\008\005\009\00-\001\00:\001\009\008\007\00")
+ (data (i32.const 17424) "\n\00\00\00i\00s\00o\00-\00i\00r\00-\001\000\000\00")
+ (data (i32.const 17448) "\0b\00\00\00c\00s\00i\00s\00o\00l\00a\00t\00i\00n\001\00")
+ (data (i32.const 17480) "\0e\00\00\00a\00n\00s\00i\00_\00x\003\00.\004\00-\001\009\006\008\00")
+ (data (i32.const 17512) "\10\00\00\00~\00l\00i\00b\00/\00e\00n\00c\00o\00d\00i\00n\00g\00.\00t\00s\00")
+ (data (i32.const 17552) "\19\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00e\00n\00c\00o\00d\00i\00n\00g\00.\00t\00s\00")
+ (data (i32.const 17608) "@\00\00\00\00\00\00\00\ac \81\00\1a \92\01\1e &   ! \c6\020 `\019 R\01\8d\00}\01\8f\00\90\00\18 \19 \1c \1d \" \13 \14 \dc\02\"!a\01: S\01\9d\00~\01x\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 17736) "\c8D\00\00 \00\00\00")
+ (data (i32.const 17744) "\00\00\00\00\00\00\00\00")
+ (data (i32.const 17752) "PE\00\00\00\00\00\00")
+ (data (i32.const 17760) "\00\00\00\00\00\00\00\00")
+ (data (i32.const 17768) "`E\00\00\00\00\00\00")
+ (data (i32.const 17776) "\01\00\00\00\ac ")
+ (data (i32.const 17784) "\04\00\00\00\00\00\00\00\f0\90\90A\00\00\00\00")
+ (data (i32.const 17800) "xE\00\00\04\00\00\00")
+ (data (i32.const 17808) "\04\00\00\00\00\00\00\00\f0\90\90A\00\00\00\00")
+ (data (i32.const 17824) "\90E\00\00\04\00\00\00")
+ (data (i32.const 17832) "\02\00\00\00\fd\ffA\00")
+ (data (i32.const 17840) "\03\00\00\00\00\00\00\00\e0\80A\00\00\00\00\00")
+ (data (i32.const 17856) "\b0E\00\00\03\00\00\00")
+ (data (i32.const 17864) "\03\00\00\00\00\00\00\00\e0\80A\00\00\00\00\00")
+ (data (i32.const 17880) "\c8E\00\00\03\00\00\00")
+ (data (i32.const 17888) "\03\00\00\00\fd\ff\fd\ffA\00")
+ (data (i32.const 17904) "\03\00\00\00\00\00\00\00\ed\a0\80\00\00\00\00\00")
+ (data (i32.const 17920) "\f0E\00\00\03\00\00\00")
+ (data (i32.const 17928) "\03\00\00\00\00\00\00\00\ed\a0\80\00\00\00\00\00")
+ (data (i32.const 17944) "\08F\00\00\03\00\00\00")
+ (data (i32.const 17952) "\03\00\00\00\fd\ff\fd\ff\fd\ff")
+ (data (i32.const 17968) "\04\00\00\00\00\00\00\00\f4\90\80\80\00\00\00\00")
+ (data (i32.const 17984) "0F\00\00\04\00\00\00")
+ (data (i32.const 17992) "\04\00\00\00\00\00\00\00\f4\90\80\80\00\00\00\00")
+ (data (i32.const 18008) "HF\00\00\04\00\00\00")
+ (data (i32.const 18016) "\04\00\00\00\fd\ff\fd\ff\fd\ff\fd\ff")
+ (data (i32.const 18032) "\04\00\00\00\00\00\00\00\c0\af\ffA\00\00\00\00")
+ (data (i32.const 18048) "pF\00\00\04\00\00\00")
+ (data (i32.const 18056) "\04\00\00\00\00\00\00\00\c0\af\ffA\00\00\00\00")
+ (data (i32.const 18072) "\88F\00\00\04\00\00\00")
+ (data (i32.const 18080) "\04\00\00\00\fd\ff\fd\ff\fd\ffA\00")
+ (data (i32.const 18096) "\03\00\00\00\00\00\00\00A\e2\82\00\00\00\00\00")
+ (data (i32.const 18112) "\b0F\00\00\03\00\00\00")
+ (data (i32.const 18120) "\03\00\00\00\00\00\00\00A\e2\82\00\00\00\00\00")
+ (data (i32.const 18136) "\c8F\00\00\03\00\00\00")
+ (data (i32.const 18144) "\02\00\00\00A\00\fd\ff")
+ (data (i32.const 18152) "\04\00\00\00\00\00\00\00\ef\bb\bfA\00\00\00\00")
+ (data (i32.const 18168) "\e8F\00\00\04\00\00\00")
+ (data (i32.const 18176) "\04\00\00\00\00\00\00\00\ef\bb\bfA\00\00\00\00")
+ (data (i32.const 18192) "\00G\00\00\04\00\00\00")
+ (data (i32.const 18200) "\01\00\00\00A\00")
+ (data (i32.const 18208) "\04\00\00\00\00\00\00\00\ef\bb\bfA\00\00\00\00")
+ (data (i32.const 18224) " G\00\00\04\00\00\00")
+ (data (i32.const 18232) "\04\00\00\00\00\00\00\00\ef\bb\bfA\00\00\00\00")
+ (data (i32.const 18248) "8G\00\00\04\00\00\00")
+ (data (i32.const 18256) "\02\00\00\00\ff\feA\00")
+ (data (i32.const 18264) "\03\00\00\00\00\00\00\00\ef\bf\bd\00\00\00\00\00")
+ (data (i32.const 18280) "XG\00\00\03\00\00\00")
+ (data (i32.const 18288) "\03\00\00\00\00\00\00\00\ef\bf\bd\00\00\00\00\00")
+ (data (i32.const 18304) "pG\00\00\03\00\00\00")
+ (data (i32.const 18312) "\01\00\00\00\fd\ff")
+ (data (i32.const 18320) "\06\00\00\00 \00U\00T\00F\008\00 \00")
+ (data (i32.const 18336) "\08\00\00\00\00\00\00\00a\00\ac \01\d87\dc")
+ (data (i32.const 18352) "\a0G\00\00\08\00\00\00")
+ (data (i32.const 18360) "\08\00\00\00\00\00\00\00a\00\ac \01\d87\dc")
+ (data (i32.const 18376) "\b8G\00\00\08\00\00\00")
+ (data (i32.const 18384) "\04\00\00\00\00\00\00\00\ff\fea\00\00\00\00\00")
+ (data (i32.const 18400) "\d0G\00\00\04\00\00\00")
+ (data (i32.const 18408) "\04\00\00\00\00\00\00\00\ff\fea\00\00\00\00\00")
+ (data (i32.const 18424) "\e8G\00\00\04\00\00\00")
+ (data (i32.const 18432) "\01\00\00\00a\00")
+ (data (i32.const 18440) "\06\00\00\00\00\00\00\00\00\d8a\00\00\dc\00\00")
+ (data (i32.const 18456) "\08H\00\00\06\00\00\00")
+ (data (i32.const 18464) "\06\00\00\00\00\00\00\00\00\d8a\00\00\dc\00\00")
+ (data (i32.const 18480) " H\00\00\06\00\00\00")
+ (data (i32.const 18488) "\03\00\00\00\fd\ffa\00\fd\ff")
+ (data (i32.const 18504) "\03\00\00\00\00\00\00\00a\00b\00\00\00\00\00")
+ (data (i32.const 18520) "HH\00\00\03\00\00\00")
+ (data (i32.const 18528) "\03\00\00\00\00\00\00\00a\00b\00\00\00\00\00")
+ (data (i32.const 18544) "`H\00\00\03\00\00\00")
+ (data (i32.const 18552) "\02\00\00\00a\00\fd\ff")
+ (data (i32.const 18560) "\06\00\00\00\00\00\00\00A\80\9f\a0\e9\ff\00\00")
+ (data (i32.const 18576) "\80H\00\00\06\00\00\00")
+ (data (i32.const 18584) "\06\00\00\00\00\00\00\00A\80\9f\a0\e9\ff\00\00")
+ (data (i32.const 18600) "\98H\00\00\06\00\00\00")
+ (data (i32.const 18608) "\06\00\00\00A\00\ac x\01\a0\00\e9\00\ff\00")
+ (data (i32.const 18624) "\03\00\00\00\00\00\00\00\ef\bb\bf\00\00\00\00\00")
+ (data (i32.const 18640) "\c0H\00\00\03\00\00\00")
+ (data (i32.const 18648) "\03\00\00\00\00\00\00\00\ef\bb\bf\00\00\00\00\00")
+ (data (i32.const 18664) "\d8H\00\00\03\00\00\00")
+ (data (i32.const 18672) "\03\00\00\00\ef\00\bb\00\bf\00")
+ (data (i32.const 18688) "\n\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\02\00\00\00\00\00\00\00\00\00\00\00\03\00\00\00\00\00\00\00\04\00\00\00\04\00\00\00\00\00\00\00\00\00\00\00\05\00\00\00\00\00\00\00\04\00\00\00\06\00\00\00\05\00\00\00\04\00\00\00\07\00\00\00\00\00\00\00\00\00\00\00\08\00\00\00\00\00\00\00\00\00\00\00\t\00\00\00\00\00\00\00\00\00\00\00\n\00\00\00\00\00\00\00\00\00\00\00")
+ (export "RTTI_BASE" (global $RTTI_BASE))
+ (export "memory" (memory $0))
+ (start $start)
+ (func $~lib/allocator/arena/__memory_allocate (; 1 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (get_global $~lib/internal/allocator/MAX_SIZE_32)
+   )
+   (unreachable)
+  )
+  (set_local $1
+   (get_global $~lib/allocator/arena/offset)
+  )
+  (set_local $4
+   (i32.and
+    (i32.add
+     (i32.add
+      (get_local $1)
+      (select
+       (tee_local $2
+        (get_local $0)
+       )
+       (tee_local $3
+        (i32.const 1)
+       )
+       (i32.gt_u
+        (get_local $2)
+        (get_local $3)
+       )
+      )
+     )
+     (get_global $~lib/internal/allocator/AL_MASK)
+    )
+    (i32.xor
+     (get_global $~lib/internal/allocator/AL_MASK)
+     (i32.const -1)
+    )
+   )
+  )
+  (set_local $5
+   (current_memory)
+  )
+  (if
+   (i32.gt_u
+    (get_local $4)
+    (i32.shl
+     (get_local $5)
+     (i32.const 16)
+    )
+   )
+   (block
+    (set_local $2
+     (i32.shr_u
+      (i32.and
+       (i32.add
+        (i32.sub
+         (get_local $4)
+         (get_local $1)
+        )
+        (i32.const 65535)
+       )
+       (i32.xor
+        (i32.const 65535)
+        (i32.const -1)
+       )
+      )
+      (i32.const 16)
+     )
+    )
+    (set_local $3
+     (select
+      (tee_local $3
+       (get_local $5)
+      )
+      (tee_local $6
+       (get_local $2)
+      )
+      (i32.gt_s
+       (get_local $3)
+       (get_local $6)
+      )
+     )
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $3)
+      )
+      (i32.const 0)
+     )
+     (if
+      (i32.lt_s
+       (grow_memory
+        (get_local $2)
+       )
+       (i32.const 0)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_local $4)
+  )
+  (get_local $1)
+ )
+ (func $~lib/memory/memory.allocate (; 2 ;) (type $ii) (param $0 i32) (result i32)
+  (return
+   (call $~lib/allocator/arena/__memory_allocate
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/internal/string/compareUnsafe (; 3 ;) (type $iiiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (result i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (set_local $5
+   (i32.const 0)
+  )
+  (set_local $6
+   (i32.add
+    (get_local $0)
+    (i32.shl
+     (get_local $1)
+     (i32.const 1)
+    )
+   )
+  )
+  (set_local $7
+   (i32.add
+    (get_local $2)
+    (i32.shl
+     (get_local $3)
+     (i32.const 1)
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (if (result i32)
+      (get_local $4)
+      (i32.eqz
+       (tee_local $5
+        (i32.sub
+         (i32.load16_u offset=4
+          (get_local $6)
+         )
+         (i32.load16_u offset=4
+          (get_local $7)
+         )
+        )
+       )
+      )
+      (get_local $4)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.sub
+         (get_local $4)
+         (i32.const 1)
+        )
+       )
+       (set_local $6
+        (i32.add
+         (get_local $6)
+         (i32.const 2)
+        )
+       )
+       (set_local $7
+        (i32.add
+         (get_local $7)
+         (i32.const 2)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (get_local $5)
+ )
+ (func $~lib/string/String.__eq (; 4 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $2
+     (i32.eq
+      (get_local $0)
+      (i32.const 0)
+     )
+    )
+    (get_local $2)
+    (i32.eq
+     (get_local $1)
+     (i32.const 0)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.ne
+    (get_local $3)
+    (i32.load
+     (get_local $1)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.eqz
+   (call $~lib/internal/string/compareUnsafe
+    (get_local $0)
+    (i32.const 0)
+    (get_local $1)
+    (i32.const 0)
+    (get_local $3)
+   )
+  )
+ )
+ (func $~lib/string/String#get:lengthUTF8 (; 5 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $1
+   (i32.const 1)
+  )
+  (set_local $2
+   (i32.const 0)
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_u
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.load16_u offset=4
+         (i32.add
+          (get_local $0)
+          (i32.shl
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+        )
+       )
+       (if
+        (i32.lt_u
+         (get_local $4)
+         (i32.const 128)
+        )
+        (block
+         (set_local $1
+          (i32.add
+           (get_local $1)
+           (i32.const 1)
+          )
+         )
+         (set_local $2
+          (i32.add
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+        )
+        (if
+         (i32.lt_u
+          (get_local $4)
+          (i32.const 2048)
+         )
+         (block
+          (set_local $1
+           (i32.add
+            (get_local $1)
+            (i32.const 2)
+           )
+          )
+          (set_local $2
+           (i32.add
+            (get_local $2)
+            (i32.const 1)
+           )
+          )
+         )
+         (if
+          (if (result i32)
+           (tee_local $5
+            (if (result i32)
+             (tee_local $5
+              (i32.eq
+               (i32.and
+                (get_local $4)
+                (i32.const 64512)
+               )
+               (i32.const 55296)
+              )
+             )
+             (i32.lt_u
+              (i32.add
+               (get_local $2)
+               (i32.const 1)
+              )
+              (get_local $3)
+             )
+             (get_local $5)
+            )
+           )
+           (i32.eq
+            (i32.and
+             (i32.load16_u offset=4
+              (i32.add
+               (get_local $0)
+               (i32.shl
+                (i32.add
+                 (get_local $2)
+                 (i32.const 1)
+                )
+                (i32.const 1)
+               )
+              )
+             )
+             (i32.const 64512)
+            )
+            (i32.const 56320)
+           )
+           (get_local $5)
+          )
+          (block
+           (set_local $1
+            (i32.add
+             (get_local $1)
+             (i32.const 4)
+            )
+           )
+           (set_local $2
+            (i32.add
+             (get_local $2)
+             (i32.const 2)
+            )
+           )
+          )
+          (block
+           (set_local $1
+            (i32.add
+             (get_local $1)
+             (i32.const 3)
+            )
+           )
+           (set_local $2
+            (i32.add
+             (get_local $2)
+             (i32.const 1)
+            )
+           )
+          )
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/arraybuffer/computeSize (; 6 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.shl
+   (i32.const 1)
+   (i32.sub
+    (i32.const 32)
+    (i32.clz
+     (i32.sub
+      (i32.add
+       (get_local $0)
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+      (i32.const 1)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/arraybuffer/allocateUnsafe (; 7 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (i32.le_u
+     (get_local $0)
+     (get_global $~lib/internal/arraybuffer/MAX_BLENGTH)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 128)
+     (i32.const 23)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $1
+   (block $~lib/memory/memory.allocate|inlined.0 (result i32)
+    (set_local $2
+     (call $~lib/internal/arraybuffer/computeSize
+      (get_local $0)
+     )
+    )
+    (br $~lib/memory/memory.allocate|inlined.0
+     (call $~lib/allocator/arena/__memory_allocate
+      (get_local $2)
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/memory/memset (; 8 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i64)
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return)
+  )
+  (i32.store8
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 1)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 2)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 1)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 2)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 2)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 3)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 6)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 3)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 4)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (set_local $3
+   (i32.and
+    (i32.sub
+     (i32.const 0)
+     (get_local $0)
+    )
+    (i32.const 3)
+   )
+  )
+  (set_local $0
+   (i32.add
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.sub
+    (get_local $2)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.and
+    (get_local $2)
+    (i32.const -4)
+   )
+  )
+  (set_local $4
+   (i32.mul
+    (i32.div_u
+     (i32.const -1)
+     (i32.const 255)
+    )
+    (i32.and
+     (get_local $1)
+     (i32.const 255)
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 4)
+   )
+   (get_local $4)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 4)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 8)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 12)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 8)
+   )
+   (get_local $4)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 24)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 12)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 16)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 20)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 24)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 28)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 24)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 20)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 16)
+   )
+   (get_local $4)
+  )
+  (set_local $3
+   (i32.add
+    (i32.const 24)
+    (i32.and
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (set_local $0
+   (i32.add
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.sub
+    (get_local $2)
+    (get_local $3)
+   )
+  )
+  (set_local $5
+   (i64.or
+    (i64.extend_u/i32
+     (get_local $4)
+    )
+    (i64.shl
+     (i64.extend_u/i32
+      (get_local $4)
+     )
+     (i64.const 32)
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.ge_u
+      (get_local $2)
+      (i32.const 32)
+     )
+     (block
+      (block
+       (i64.store
+        (get_local $0)
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 16)
+        )
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 24)
+        )
+        (get_local $5)
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 32)
+        )
+       )
+       (set_local $0
+        (i32.add
+         (get_local $0)
+         (i32.const 32)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/typedarray/TypedArray<u8,u32>#constructor (; 9 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (i32.gt_u
+    (get_local $1)
+    (i32.const 1073741816)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 64)
+     (i32.const 33)
+     (i32.const 34)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $2
+   (i32.shl
+    (get_local $1)
+    (i32.const 0)
+   )
+  )
+  (set_local $3
+   (call $~lib/internal/arraybuffer/allocateUnsafe
+    (get_local $2)
+   )
+  )
+  (block $~lib/memory/memory.fill|inlined.0
+   (set_local $4
+    (i32.add
+     (get_local $3)
+     (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+    )
+   )
+   (set_local $5
+    (i32.const 0)
+   )
+   (call $~lib/internal/memory/memset
+    (get_local $4)
+    (get_local $5)
+    (get_local $2)
+   )
+  )
+  (i32.store
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $5
+        (block (result i32)
+         (i32.store
+          (i32.sub
+           (tee_local $4
+            (i32.add
+             (call $~lib/memory/memory.allocate
+              (i32.const 20)
+             )
+             (i32.const 8)
+            )
+           )
+           (i32.const 4)
+          )
+          (i32.const 5)
+         )
+         (get_local $4)
+        )
+       )
+       (i32.store
+        (get_local $5)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $5)
+        (i32.const 0)
+       )
+       (i32.store offset=8
+        (get_local $5)
+        (i32.const 0)
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+   (get_local $3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $2)
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/encoding/encodeUTF8Unsafe (; 10 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (set_local $2
+   (i32.const 0)
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.const 0)
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_u
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $5
+        (i32.load16_u offset=4
+         (i32.add
+          (get_local $0)
+          (i32.shl
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+        )
+       )
+       (if
+        (i32.lt_u
+         (get_local $5)
+         (i32.const 128)
+        )
+        (block
+         (i32.store8
+          (i32.add
+           (get_local $1)
+           (get_local $4)
+          )
+          (get_local $5)
+         )
+         (set_local $4
+          (i32.add
+           (get_local $4)
+           (i32.const 1)
+          )
+         )
+         (set_local $2
+          (i32.add
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+        )
+        (if
+         (i32.lt_u
+          (get_local $5)
+          (i32.const 2048)
+         )
+         (block
+          (set_local $6
+           (i32.add
+            (get_local $1)
+            (get_local $4)
+           )
+          )
+          (i32.store8
+           (get_local $6)
+           (i32.or
+            (i32.shr_u
+             (get_local $5)
+             (i32.const 6)
+            )
+            (i32.const 192)
+           )
+          )
+          (i32.store8 offset=1
+           (get_local $6)
+           (i32.or
+            (i32.and
+             (get_local $5)
+             (i32.const 63)
+            )
+            (i32.const 128)
+           )
+          )
+          (set_local $4
+           (i32.add
+            (get_local $4)
+            (i32.const 2)
+           )
+          )
+          (set_local $2
+           (i32.add
+            (get_local $2)
+            (i32.const 1)
+           )
+          )
+         )
+         (block
+          (set_local $6
+           (i32.add
+            (get_local $1)
+            (get_local $4)
+           )
+          )
+          (if
+           (i32.eq
+            (i32.and
+             (get_local $5)
+             (i32.const 63488)
+            )
+            (i32.const 55296)
+           )
+           (block
+            (if
+             (if (result i32)
+              (tee_local $7
+               (i32.le_u
+                (get_local $5)
+                (i32.const 56319)
+               )
+              )
+              (i32.lt_u
+               (i32.add
+                (get_local $2)
+                (i32.const 1)
+               )
+               (get_local $3)
+              )
+              (get_local $7)
+             )
+             (block
+              (set_local $7
+               (i32.load16_u offset=4
+                (i32.add
+                 (get_local $0)
+                 (i32.shl
+                  (i32.add
+                   (get_local $2)
+                   (i32.const 1)
+                  )
+                  (i32.const 1)
+                 )
+                )
+               )
+              )
+              (if
+               (i32.eq
+                (i32.and
+                 (get_local $7)
+                 (i32.const 64512)
+                )
+                (i32.const 56320)
+               )
+               (block
+                (set_local $5
+                 (i32.add
+                  (i32.add
+                   (i32.const 65536)
+                   (i32.shl
+                    (i32.and
+                     (get_local $5)
+                     (i32.const 1023)
+                    )
+                    (i32.const 10)
+                   )
+                  )
+                  (i32.and
+                   (get_local $7)
+                   (i32.const 1023)
+                  )
+                 )
+                )
+                (i32.store8
+                 (get_local $6)
+                 (i32.or
+                  (i32.shr_u
+                   (get_local $5)
+                   (i32.const 18)
+                  )
+                  (i32.const 240)
+                 )
+                )
+                (i32.store8 offset=1
+                 (get_local $6)
+                 (i32.or
+                  (i32.and
+                   (i32.shr_u
+                    (get_local $5)
+                    (i32.const 12)
+                   )
+                   (i32.const 63)
+                  )
+                  (i32.const 128)
+                 )
+                )
+                (i32.store8 offset=2
+                 (get_local $6)
+                 (i32.or
+                  (i32.and
+                   (i32.shr_u
+                    (get_local $5)
+                    (i32.const 6)
+                   )
+                   (i32.const 63)
+                  )
+                  (i32.const 128)
+                 )
+                )
+                (i32.store8 offset=3
+                 (get_local $6)
+                 (i32.or
+                  (i32.and
+                   (get_local $5)
+                   (i32.const 63)
+                  )
+                  (i32.const 128)
+                 )
+                )
+                (set_local $4
+                 (i32.add
+                  (get_local $4)
+                  (i32.const 4)
+                 )
+                )
+                (set_local $2
+                 (i32.add
+                  (get_local $2)
+                  (i32.const 2)
+                 )
+                )
+                (br $continue|0)
+               )
+              )
+             )
+            )
+            (set_local $5
+             (get_global $~lib/internal/encoding/REPLACEMENT_CHARACTER)
+            )
+           )
+          )
+          (i32.store8
+           (get_local $6)
+           (i32.or
+            (i32.shr_u
+             (get_local $5)
+             (i32.const 12)
+            )
+            (i32.const 224)
+           )
+          )
+          (i32.store8 offset=1
+           (get_local $6)
+           (i32.or
+            (i32.and
+             (i32.shr_u
+              (get_local $5)
+              (i32.const 6)
+             )
+             (i32.const 63)
+            )
+            (i32.const 128)
+           )
+          )
+          (i32.store8 offset=2
+           (get_local $6)
+           (i32.or
+            (i32.and
+             (get_local $5)
+             (i32.const 63)
+            )
+            (i32.const 128)
+           )
+          )
+          (set_local $4
+           (i32.add
+            (get_local $4)
+            (i32.const 3)
+           )
+          )
+          (set_local $2
+           (i32.add
+            (get_local $2)
+            (i32.const 1)
+           )
+          )
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (get_local $4)
+ )
+ (func $~lib/encoding/TextEncoder#encode (; 11 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (call $~lib/internal/typedarray/TypedArray<u8,u32>#constructor
+    (i32.const 0)
+    (i32.sub
+     (call $~lib/string/String#get:lengthUTF8
+      (get_local $1)
+     )
+     (i32.const 1)
+    )
+   )
+  )
+  (drop
+   (call $~lib/internal/encoding/encodeUTF8Unsafe
+    (get_local $1)
+    (i32.add
+     (i32.load
+      (get_local $2)
+     )
+     (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+    )
+   )
+  )
+  (get_local $2)
+ )
+ (func $~lib/internal/typedarray/TypedArray<u8,u32>#__get (; 12 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.shr_u
+    (i32.sub
+     (i32.load offset=8
+      (get_local $0)
+     )
+     (get_local $2)
+    )
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (get_local $3)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 64)
+     (i32.const 51)
+     (i32.const 42)
+    )
+    (unreachable)
+   )
+  )
+  (block $~lib/internal/arraybuffer/loadUnsafeWithOffset<u8,u8>|inlined.0 (result i32)
+   (set_local $4
+    (i32.load
+     (get_local $0)
+    )
+   )
+   (i32.load8_u offset=8
+    (i32.add
+     (i32.add
+      (get_local $4)
+      (get_local $2)
+     )
+     (i32.shl
+      (get_local $1)
+      (i32.const 0)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/string/isWhiteSpaceOrLineTerminator (; 13 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (block $break|0
+   (block $case10|0
+    (block $case9|0
+     (block $case8|0
+      (block $case7|0
+       (block $case6|0
+        (block $case5|0
+         (block $case4|0
+          (block $case3|0
+           (block $case2|0
+            (block $case1|0
+             (block $case0|0
+              (set_local $1
+               (i32.and
+                (get_local $0)
+                (i32.const 65535)
+               )
+              )
+              (br_if $case0|0
+               (i32.eq
+                (get_local $1)
+                (i32.const 10)
+               )
+              )
+              (br_if $case1|0
+               (i32.eq
+                (get_local $1)
+                (i32.const 13)
+               )
+              )
+              (br_if $case2|0
+               (i32.eq
+                (get_local $1)
+                (i32.const 8232)
+               )
+              )
+              (br_if $case3|0
+               (i32.eq
+                (get_local $1)
+                (i32.const 8233)
+               )
+              )
+              (br_if $case4|0
+               (i32.eq
+                (get_local $1)
+                (i32.const 9)
+               )
+              )
+              (br_if $case5|0
+               (i32.eq
+                (get_local $1)
+                (i32.const 11)
+               )
+              )
+              (br_if $case6|0
+               (i32.eq
+                (get_local $1)
+                (i32.const 12)
+               )
+              )
+              (br_if $case7|0
+               (i32.eq
+                (get_local $1)
+                (i32.const 32)
+               )
+              )
+              (br_if $case8|0
+               (i32.eq
+                (get_local $1)
+                (i32.const 160)
+               )
+              )
+              (br_if $case9|0
+               (i32.eq
+                (get_local $1)
+                (i32.const 65279)
+               )
+              )
+              (br $case10|0)
+             )
+            )
+           )
+          )
+         )
+        )
+       )
+      )
+     )
+    )
+    (return
+     (i32.const 1)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/internal/string/allocateUnsafe (; 14 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $1
+      (i32.gt_s
+       (get_local $0)
+       (i32.const 0)
+      )
+     )
+     (i32.le_s
+      (get_local $0)
+      (get_global $~lib/internal/string/MAX_LENGTH)
+     )
+     (get_local $1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 264)
+     (i32.const 28)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $2
+   (block $~lib/memory/memory.allocate|inlined.1 (result i32)
+    (set_local $1
+     (i32.add
+      (get_global $~lib/internal/string/HEADER_SIZE)
+      (i32.shl
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (br $~lib/memory/memory.allocate|inlined.1
+     (call $~lib/allocator/arena/__memory_allocate
+      (get_local $1)
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $2)
+   (get_local $0)
+  )
+  (get_local $2)
+ )
+ (func $~lib/internal/memory/memcpy (; 15 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (block $break|0
+   (loop $continue|0
+    (if
+     (if (result i32)
+      (get_local $2)
+      (i32.and
+       (get_local $1)
+       (i32.const 3)
+      )
+      (get_local $2)
+     )
+     (block
+      (block
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (i32.and
+     (get_local $0)
+     (i32.const 3)
+    )
+    (i32.const 0)
+   )
+   (block
+    (block $break|1
+     (loop $continue|1
+      (if
+       (i32.ge_u
+        (get_local $2)
+        (i32.const 16)
+       )
+       (block
+        (block
+         (i32.store
+          (get_local $0)
+          (i32.load
+           (get_local $1)
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 4)
+          )
+          (i32.load
+           (i32.add
+            (get_local $1)
+            (i32.const 4)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 8)
+          )
+          (i32.load
+           (i32.add
+            (get_local $1)
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 12)
+          )
+          (i32.load
+           (i32.add
+            (get_local $1)
+            (i32.const 12)
+           )
+          )
+         )
+         (set_local $1
+          (i32.add
+           (get_local $1)
+           (i32.const 16)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (get_local $0)
+           (i32.const 16)
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 16)
+          )
+         )
+        )
+        (br $continue|1)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 8)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+       (i32.load
+        (i32.add
+         (get_local $1)
+         (i32.const 4)
+        )
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 8)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 8)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 4)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 4)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 2)
+     )
+     (block
+      (i32.store16
+       (get_local $0)
+       (i32.load16_u
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 2)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 1)
+     )
+     (i32.store8
+      (block (result i32)
+       (set_local $5
+        (get_local $0)
+       )
+       (set_local $0
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+      (i32.load8_u
+       (block (result i32)
+        (set_local $5
+         (get_local $1)
+        )
+        (set_local $1
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+      )
+     )
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $2)
+    (i32.const 32)
+   )
+   (block $break|2
+    (block $case2|2
+     (block $case1|2
+      (block $case0|2
+       (set_local $5
+        (i32.and
+         (get_local $0)
+         (i32.const 3)
+        )
+       )
+       (br_if $case0|2
+        (i32.eq
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (br_if $case1|2
+        (i32.eq
+         (get_local $5)
+         (i32.const 2)
+        )
+       )
+       (br_if $case2|2
+        (i32.eq
+         (get_local $5)
+         (i32.const 3)
+        )
+       )
+       (br $break|2)
+      )
+      (block
+       (set_local $3
+        (i32.load
+         (get_local $1)
+        )
+       )
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 3)
+        )
+       )
+       (block $break|3
+        (loop $continue|3
+         (if
+          (i32.ge_u
+           (get_local $2)
+           (i32.const 17)
+          )
+          (block
+           (block
+            (set_local $4
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 1)
+              )
+             )
+            )
+            (i32.store
+             (get_local $0)
+             (i32.or
+              (i32.shr_u
+               (get_local $3)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $4)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 5)
+              )
+             )
+            )
+            (i32.store
+             (i32.add
+              (get_local $0)
+              (i32.const 4)
+             )
+             (i32.or
+              (i32.shr_u
+               (get_local $4)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $3)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $4
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 9)
+              )
+             )
+            )
+            (i32.store
+             (i32.add
+              (get_local $0)
+              (i32.const 8)
+             )
+             (i32.or
+              (i32.shr_u
+               (get_local $3)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $4)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 13)
+              )
+             )
+            )
+            (i32.store
+             (i32.add
+              (get_local $0)
+              (i32.const 12)
+             )
+             (i32.or
+              (i32.shr_u
+               (get_local $4)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $3)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $1
+             (i32.add
+              (get_local $1)
+              (i32.const 16)
+             )
+            )
+            (set_local $0
+             (i32.add
+              (get_local $0)
+              (i32.const 16)
+             )
+            )
+            (set_local $2
+             (i32.sub
+              (get_local $2)
+              (i32.const 16)
+             )
+            )
+           )
+           (br $continue|3)
+          )
+         )
+        )
+       )
+       (br $break|2)
+      )
+     )
+     (block
+      (set_local $3
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store8
+       (block (result i32)
+        (set_local $5
+         (get_local $0)
+        )
+        (set_local $0
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+       (i32.load8_u
+        (block (result i32)
+         (set_local $5
+          (get_local $1)
+         )
+         (set_local $1
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+       )
+      )
+      (i32.store8
+       (block (result i32)
+        (set_local $5
+         (get_local $0)
+        )
+        (set_local $0
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+       (i32.load8_u
+        (block (result i32)
+         (set_local $5
+          (get_local $1)
+         )
+         (set_local $1
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+       )
+      )
+      (set_local $2
+       (i32.sub
+        (get_local $2)
+        (i32.const 2)
+       )
+      )
+      (block $break|4
+       (loop $continue|4
+        (if
+         (i32.ge_u
+          (get_local $2)
+          (i32.const 18)
+         )
+         (block
+          (block
+           (set_local $4
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 2)
+             )
+            )
+           )
+           (i32.store
+            (get_local $0)
+            (i32.or
+             (i32.shr_u
+              (get_local $3)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $4)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 6)
+             )
+            )
+           )
+           (i32.store
+            (i32.add
+             (get_local $0)
+             (i32.const 4)
+            )
+            (i32.or
+             (i32.shr_u
+              (get_local $4)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $3)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $4
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 10)
+             )
+            )
+           )
+           (i32.store
+            (i32.add
+             (get_local $0)
+             (i32.const 8)
+            )
+            (i32.or
+             (i32.shr_u
+              (get_local $3)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $4)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 14)
+             )
+            )
+           )
+           (i32.store
+            (i32.add
+             (get_local $0)
+             (i32.const 12)
+            )
+            (i32.or
+             (i32.shr_u
+              (get_local $4)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $3)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $1
+            (i32.add
+             (get_local $1)
+             (i32.const 16)
+            )
+           )
+           (set_local $0
+            (i32.add
+             (get_local $0)
+             (i32.const 16)
+            )
+           )
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 16)
+            )
+           )
+          )
+          (br $continue|4)
+         )
+        )
+       )
+      )
+      (br $break|2)
+     )
+    )
+    (block
+     (set_local $3
+      (i32.load
+       (get_local $1)
+      )
+     )
+     (i32.store8
+      (block (result i32)
+       (set_local $5
+        (get_local $0)
+       )
+       (set_local $0
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+      (i32.load8_u
+       (block (result i32)
+        (set_local $5
+         (get_local $1)
+        )
+        (set_local $1
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+      )
+     )
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (block $break|5
+      (loop $continue|5
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 19)
+        )
+        (block
+         (block
+          (set_local $4
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 3)
+            )
+           )
+          )
+          (i32.store
+           (get_local $0)
+           (i32.or
+            (i32.shr_u
+             (get_local $3)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $4)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 7)
+            )
+           )
+          )
+          (i32.store
+           (i32.add
+            (get_local $0)
+            (i32.const 4)
+           )
+           (i32.or
+            (i32.shr_u
+             (get_local $4)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $3)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $4
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 11)
+            )
+           )
+          )
+          (i32.store
+           (i32.add
+            (get_local $0)
+            (i32.const 8)
+           )
+           (i32.or
+            (i32.shr_u
+             (get_local $3)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $4)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 15)
+            )
+           )
+          )
+          (i32.store
+           (i32.add
+            (get_local $0)
+            (i32.const 12)
+           )
+           (i32.or
+            (i32.shr_u
+             (get_local $4)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $3)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $1
+           (i32.add
+            (get_local $1)
+            (i32.const 16)
+           )
+          )
+          (set_local $0
+           (i32.add
+            (get_local $0)
+            (i32.const 16)
+           )
+          )
+          (set_local $2
+           (i32.sub
+            (get_local $2)
+            (i32.const 16)
+           )
+          )
+         )
+         (br $continue|5)
+        )
+       )
+      )
+     )
+     (br $break|2)
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 16)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 8)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 4)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 2)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 1)
+   )
+   (i32.store8
+    (block (result i32)
+     (set_local $5
+      (get_local $0)
+     )
+     (set_local $0
+      (i32.add
+       (get_local $5)
+       (i32.const 1)
+      )
+     )
+     (get_local $5)
+    )
+    (i32.load8_u
+     (block (result i32)
+      (set_local $5
+       (get_local $1)
+      )
+      (set_local $1
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/memory/memmove (; 16 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return)
+  )
+  (if
+   (if (result i32)
+    (tee_local $3
+     (i32.le_u
+      (i32.add
+       (get_local $1)
+       (get_local $2)
+      )
+      (get_local $0)
+     )
+    )
+    (get_local $3)
+    (i32.le_u
+     (i32.add
+      (get_local $0)
+      (get_local $2)
+     )
+     (get_local $1)
+    )
+   )
+   (block
+    (call $~lib/internal/memory/memcpy
+     (get_local $0)
+     (get_local $1)
+     (get_local $2)
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.lt_u
+    (get_local $0)
+    (get_local $1)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (block $break|0
+       (loop $continue|0
+        (if
+         (i32.and
+          (get_local $0)
+          (i32.const 7)
+         )
+         (block
+          (block
+           (if
+            (i32.eqz
+             (get_local $2)
+            )
+            (return)
+           )
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 1)
+            )
+           )
+           (i32.store8
+            (block (result i32)
+             (set_local $3
+              (get_local $0)
+             )
+             (set_local $0
+              (i32.add
+               (get_local $3)
+               (i32.const 1)
+              )
+             )
+             (get_local $3)
+            )
+            (i32.load8_u
+             (block (result i32)
+              (set_local $3
+               (get_local $1)
+              )
+              (set_local $1
+               (i32.add
+                (get_local $3)
+                (i32.const 1)
+               )
+              )
+              (get_local $3)
+             )
+            )
+           )
+          )
+          (br $continue|0)
+         )
+        )
+       )
+      )
+      (block $break|1
+       (loop $continue|1
+        (if
+         (i32.ge_u
+          (get_local $2)
+          (i32.const 8)
+         )
+         (block
+          (block
+           (i64.store
+            (get_local $0)
+            (i64.load
+             (get_local $1)
+            )
+           )
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 8)
+            )
+           )
+           (set_local $0
+            (i32.add
+             (get_local $0)
+             (i32.const 8)
+            )
+           )
+           (set_local $1
+            (i32.add
+             (get_local $1)
+             (i32.const 8)
+            )
+           )
+          )
+          (br $continue|1)
+         )
+        )
+       )
+      )
+     )
+    )
+    (block $break|2
+     (loop $continue|2
+      (if
+       (get_local $2)
+       (block
+        (block
+         (i32.store8
+          (block (result i32)
+           (set_local $3
+            (get_local $0)
+           )
+           (set_local $0
+            (i32.add
+             (get_local $3)
+             (i32.const 1)
+            )
+           )
+           (get_local $3)
+          )
+          (i32.load8_u
+           (block (result i32)
+            (set_local $3
+             (get_local $1)
+            )
+            (set_local $1
+             (i32.add
+              (get_local $3)
+              (i32.const 1)
+             )
+            )
+            (get_local $3)
+           )
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+        )
+        (br $continue|2)
+       )
+      )
+     )
+    )
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (block $break|3
+       (loop $continue|3
+        (if
+         (i32.and
+          (i32.add
+           (get_local $0)
+           (get_local $2)
+          )
+          (i32.const 7)
+         )
+         (block
+          (block
+           (if
+            (i32.eqz
+             (get_local $2)
+            )
+            (return)
+           )
+           (i32.store8
+            (i32.add
+             (get_local $0)
+             (tee_local $2
+              (i32.sub
+               (get_local $2)
+               (i32.const 1)
+              )
+             )
+            )
+            (i32.load8_u
+             (i32.add
+              (get_local $1)
+              (get_local $2)
+             )
+            )
+           )
+          )
+          (br $continue|3)
+         )
+        )
+       )
+      )
+      (block $break|4
+       (loop $continue|4
+        (if
+         (i32.ge_u
+          (get_local $2)
+          (i32.const 8)
+         )
+         (block
+          (block
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 8)
+            )
+           )
+           (i64.store
+            (i32.add
+             (get_local $0)
+             (get_local $2)
+            )
+            (i64.load
+             (i32.add
+              (get_local $1)
+              (get_local $2)
+             )
+            )
+           )
+          )
+          (br $continue|4)
+         )
+        )
+       )
+      )
+     )
+    )
+    (block $break|5
+     (loop $continue|5
+      (if
+       (get_local $2)
+       (block
+        (i32.store8
+         (i32.add
+          (get_local $0)
+          (tee_local $2
+           (i32.sub
+            (get_local $2)
+            (i32.const 1)
+           )
+          )
+         )
+         (i32.load8_u
+          (i32.add
+           (get_local $1)
+           (get_local $2)
+          )
+         )
+        )
+        (br $continue|5)
+       )
+      )
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/string/copyUnsafe (; 17 ;) (type $iiiiiv) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (block $~lib/memory/memory.copy|inlined.0
+   (set_local $5
+    (i32.add
+     (i32.add
+      (get_local $0)
+      (i32.shl
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_global $~lib/internal/string/HEADER_SIZE)
+    )
+   )
+   (set_local $6
+    (i32.add
+     (i32.add
+      (get_local $2)
+      (i32.shl
+       (get_local $3)
+       (i32.const 1)
+      )
+     )
+     (get_global $~lib/internal/string/HEADER_SIZE)
+    )
+   )
+   (set_local $7
+    (i32.shl
+     (get_local $4)
+     (i32.const 1)
+    )
+   )
+   (call $~lib/internal/memory/memmove
+    (get_local $5)
+    (get_local $6)
+    (get_local $7)
+   )
+  )
+ )
+ (func $~lib/string/String#trim (; 18 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eqz
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 232)
+     (i32.const 319)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (if (result i32)
+      (get_local $1)
+      (call $~lib/internal/string/isWhiteSpaceOrLineTerminator
+       (i32.load16_u offset=4
+        (i32.add
+         (get_local $0)
+         (i32.shl
+          (i32.sub
+           (get_local $1)
+           (i32.const 1)
+          )
+          (i32.const 1)
+         )
+        )
+       )
+      )
+      (get_local $1)
+     )
+     (block
+      (set_local $1
+       (i32.sub
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (set_local $2
+   (i32.const 0)
+  )
+  (block $break|1
+   (loop $continue|1
+    (if
+     (if (result i32)
+      (tee_local $3
+       (i32.lt_u
+        (get_local $2)
+        (get_local $1)
+       )
+      )
+      (call $~lib/internal/string/isWhiteSpaceOrLineTerminator
+       (i32.load16_u offset=4
+        (i32.add
+         (get_local $0)
+         (i32.shl
+          (get_local $2)
+          (i32.const 1)
+         )
+        )
+       )
+      )
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+       (set_local $1
+        (i32.sub
+         (get_local $1)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|1)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (return
+    (i32.const 192)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $3
+     (i32.eqz
+      (get_local $2)
+     )
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_local $3)
+   )
+   (return
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (call $~lib/internal/string/allocateUnsafe
+    (get_local $1)
+   )
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (get_local $4)
+   (i32.const 0)
+   (get_local $0)
+   (get_local $2)
+   (get_local $1)
+  )
+  (get_local $4)
+ )
+ (func $~lib/array/Array<i32>#__get (; 19 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if (result i32)
+   (i32.lt_u
+    (get_local $1)
+    (i32.shr_u
+     (i32.load
+      (get_local $2)
+     )
+     (i32.const 2)
+    )
+   )
+   (block $~lib/internal/arraybuffer/loadUnsafe<i32,i32>|inlined.0 (result i32)
+    (i32.load offset=8
+     (i32.add
+      (get_local $2)
+      (i32.shl
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+    )
+   )
+   (unreachable)
+  )
+ )
+ (func $~lib/internal/string/findRow (; 20 ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (set_local $4
+   (i32.const 0)
+  )
+  (set_local $5
+   (i32.sub
+    (i32.div_s
+     (block $~lib/array/Array<i32>#get:length|inlined.0 (result i32)
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (get_local $1)
+    )
+    (i32.const 1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.le_s
+      (get_local $4)
+      (get_local $5)
+     )
+     (block
+      (block
+       (set_local $6
+        (i32.shr_u
+         (i32.add
+          (get_local $4)
+          (get_local $5)
+         )
+         (i32.const 1)
+        )
+       )
+       (set_local $7
+        (i32.mul
+         (get_local $6)
+         (get_local $1)
+        )
+       )
+       (if
+        (i32.lt_s
+         (get_local $3)
+         (call $~lib/array/Array<i32>#__get
+          (get_local $0)
+          (get_local $7)
+         )
+        )
+        (set_local $5
+         (i32.sub
+          (get_local $6)
+          (i32.const 1)
+         )
+        )
+        (if
+         (i32.gt_s
+          (get_local $3)
+          (call $~lib/array/Array<i32>#__get
+           (get_local $0)
+           (i32.add
+            (get_local $7)
+            (i32.and
+             (get_local $2)
+             (i32.const 1)
+            )
+           )
+          )
+         )
+         (set_local $4
+          (i32.add
+           (get_local $6)
+           (i32.const 1)
+          )
+         )
+         (return
+          (get_local $7)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.const -1)
+ )
+ (func $~lib/internal/string/isCased (; 21 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.ge_s
+   (call $~lib/internal/string/findRow
+    (block $~lib/internal/unicode/CASED_RANGES|inlined.0 (result i32)
+     (i32.const 12672)
+    )
+    (i32.const 2)
+    (i32.const 1)
+    (get_local $0)
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/internal/string/isCaseIgnorable (; 22 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.ge_s
+   (call $~lib/internal/string/findRow
+    (block $~lib/internal/unicode/CASE_IGNORABLE_RANGES|inlined.0 (result i32)
+     (i32.const 16776)
+    )
+    (i32.const 2)
+    (i32.const 1)
+    (get_local $0)
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/internal/string/isFinalSigma (; 23 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $3
+   (i32.const 0)
+  )
+  (block $break|0
+   (set_local $4
+    (get_local $1)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.gt_s
+       (get_local $4)
+       (i32.const 0)
+      )
+     )
+    )
+    (block
+     (set_local $5
+      (block $~lib/internal/string/loadCodePointBefore|inlined.0 (result i32)
+       (set_local $5
+        (i32.load16_u offset=4
+         (i32.add
+          (get_local $0)
+          (i32.shl
+           (i32.sub
+            (get_local $4)
+            (i32.const 1)
+           )
+           (i32.const 1)
+          )
+         )
+        )
+       )
+       (if
+        (if (result i32)
+         (tee_local $6
+          (i32.eq
+           (i32.and
+            (get_local $5)
+            (i32.const 64512)
+           )
+           (i32.const 56320)
+          )
+         )
+         (i32.gt_s
+          (get_local $4)
+          (i32.const 1)
+         )
+         (get_local $6)
+        )
+        (block
+         (set_local $6
+          (i32.load16_u offset=4
+           (i32.add
+            (get_local $0)
+            (i32.shl
+             (i32.sub
+              (get_local $4)
+              (i32.const 2)
+             )
+             (i32.const 1)
+            )
+           )
+          )
+         )
+         (if
+          (i32.eq
+           (i32.and
+            (get_local $6)
+            (i32.const 64512)
+           )
+           (i32.const 55296)
+          )
+          (br $~lib/internal/string/loadCodePointBefore|inlined.0
+           (i32.add
+            (i32.add
+             (i32.const 65536)
+             (i32.shl
+              (i32.and
+               (get_local $6)
+               (i32.const 1023)
+              )
+              (i32.const 10)
+             )
+            )
+            (i32.and
+             (get_local $5)
+             (i32.const 1023)
+            )
+           )
+          )
+         )
+        )
+       )
+       (get_local $5)
+      )
+     )
+     (set_local $4
+      (i32.sub
+       (get_local $4)
+       (i32.add
+        (i32.const 1)
+        (i32.ge_s
+         (get_local $5)
+         (i32.const 65536)
+        )
+       )
+      )
+     )
+     (if
+      (call $~lib/internal/string/isCased
+       (get_local $5)
+      )
+      (block
+       (set_local $3
+        (i32.const 1)
+       )
+       (br $break|0)
+      )
+     )
+     (if
+      (i32.eqz
+       (call $~lib/internal/string/isCaseIgnorable
+        (get_local $5)
+       )
+      )
+      (br $break|0)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $3)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (block $break|1
+   (set_local $4
+    (i32.add
+     (get_local $1)
+     (i32.const 1)
+    )
+   )
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.eqz
+      (i32.lt_s
+       (get_local $4)
+       (get_local $2)
+      )
+     )
+    )
+    (block
+     (set_local $5
+      (block $~lib/internal/string/loadCodePoint|inlined.1 (result i32)
+       (set_local $5
+        (i32.load16_u offset=4
+         (i32.add
+          (get_local $0)
+          (i32.shl
+           (get_local $4)
+           (i32.const 1)
+          )
+         )
+        )
+       )
+       (if
+        (if (result i32)
+         (tee_local $6
+          (i32.eq
+           (i32.and
+            (get_local $5)
+            (i32.const 64512)
+           )
+           (i32.const 55296)
+          )
+         )
+         (i32.lt_s
+          (i32.add
+           (get_local $4)
+           (i32.const 1)
+          )
+          (get_local $2)
+         )
+         (get_local $6)
+        )
+        (block
+         (set_local $6
+          (i32.load16_u offset=6
+           (i32.add
+            (get_local $0)
+            (i32.shl
+             (get_local $4)
+             (i32.const 1)
+            )
+           )
+          )
+         )
+         (if
+          (i32.eq
+           (i32.and
+            (get_local $6)
+            (i32.const 64512)
+           )
+           (i32.const 56320)
+          )
+          (br $~lib/internal/string/loadCodePoint|inlined.1
+           (i32.add
+            (i32.add
+             (i32.const 65536)
+             (i32.shl
+              (i32.and
+               (get_local $5)
+               (i32.const 1023)
+              )
+              (i32.const 10)
+             )
+            )
+            (i32.and
+             (get_local $6)
+             (i32.const 1023)
+            )
+           )
+          )
+         )
+        )
+       )
+       (get_local $5)
+      )
+     )
+     (set_local $4
+      (i32.add
+       (get_local $4)
+       (i32.add
+        (i32.const 1)
+        (i32.ge_s
+         (get_local $5)
+         (i32.const 65536)
+        )
+       )
+      )
+     )
+     (if
+      (call $~lib/internal/string/isCased
+       (get_local $5)
+      )
+      (return
+       (i32.const 0)
+      )
+     )
+     (if
+      (i32.eqz
+       (call $~lib/internal/string/isCaseIgnorable
+        (get_local $5)
+       )
+      )
+      (br $break|1)
+     )
+    )
+    (br $repeat|1)
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/internal/string/toCaseUnsafe (; 24 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (local $13 i32)
+  (local $14 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (if (result i32)
+    (i32.and
+     (get_local $1)
+     (i32.const 1)
+    )
+    (block $~lib/internal/unicode/UPPER_CASE_RUNS|inlined.0 (result i32)
+     (i32.const 4416)
+    )
+    (block $~lib/internal/unicode/LOWER_CASE_RUNS|inlined.0 (result i32)
+     (i32.const 8520)
+    )
+   )
+  )
+  (set_local $4
+   (if (result i32)
+    (i32.and
+     (get_local $1)
+     (i32.const 1)
+    )
+    (block $~lib/internal/unicode/UPPER_CASE_SPECIALS|inlined.0 (result i32)
+     (i32.const 10576)
+    )
+    (block $~lib/internal/unicode/LOWER_CASE_SPECIALS|inlined.0 (result i32)
+     (i32.const 10616)
+    )
+   )
+  )
+  (set_local $5
+   (i32.const 0)
+  )
+  (set_local $6
+   (i32.const 0)
+  )
+  (block $break|0
+   (set_local $7
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $7)
+       (i32.const 2)
+      )
+     )
+    )
+    (block
+     (set_local $8
+      (i32.const 0)
+     )
+     (block $break|1
+      (set_local $9
+       (i32.const 0)
+      )
+      (loop $repeat|1
+       (block $continue|1
+        (br_if $break|1
+         (i32.eqz
+          (i32.lt_s
+           (get_local $9)
+           (get_local $2)
+          )
+         )
+        )
+        (block
+         (set_local $10
+          (block $~lib/internal/string/loadCodePoint|inlined.0 (result i32)
+           (set_local $10
+            (i32.load16_u offset=4
+             (i32.add
+              (get_local $0)
+              (i32.shl
+               (get_local $9)
+               (i32.const 1)
+              )
+             )
+            )
+           )
+           (if
+            (if (result i32)
+             (tee_local $11
+              (i32.eq
+               (i32.and
+                (get_local $10)
+                (i32.const 64512)
+               )
+               (i32.const 55296)
+              )
+             )
+             (i32.lt_s
+              (i32.add
+               (get_local $9)
+               (i32.const 1)
+              )
+              (get_local $2)
+             )
+             (get_local $11)
+            )
+            (block
+             (set_local $11
+              (i32.load16_u offset=6
+               (i32.add
+                (get_local $0)
+                (i32.shl
+                 (get_local $9)
+                 (i32.const 1)
+                )
+               )
+              )
+             )
+             (if
+              (i32.eq
+               (i32.and
+                (get_local $11)
+                (i32.const 64512)
+               )
+               (i32.const 56320)
+              )
+              (br $~lib/internal/string/loadCodePoint|inlined.0
+               (i32.add
+                (i32.add
+                 (i32.const 65536)
+                 (i32.shl
+                  (i32.and
+                   (get_local $10)
+                   (i32.const 1023)
+                  )
+                  (i32.const 10)
+                 )
+                )
+                (i32.and
+                 (get_local $11)
+                 (i32.const 1023)
+                )
+               )
+              )
+             )
+            )
+           )
+           (get_local $10)
+          )
+         )
+         (set_local $11
+          (get_local $10)
+         )
+         (if
+          (i32.lt_s
+           (get_local $10)
+           (i32.const 128)
+          )
+          (if
+           (if (result i32)
+            (i32.and
+             (get_local $1)
+             (i32.const 1)
+            )
+            (if (result i32)
+             (tee_local $12
+              (i32.ge_s
+               (get_local $10)
+               (i32.const 97)
+              )
+             )
+             (i32.le_s
+              (get_local $10)
+              (i32.const 122)
+             )
+             (get_local $12)
+            )
+            (if (result i32)
+             (tee_local $12
+              (i32.ge_s
+               (get_local $10)
+               (i32.const 65)
+              )
+             )
+             (i32.le_s
+              (get_local $10)
+              (i32.const 90)
+             )
+             (get_local $12)
+            )
+           )
+           (set_local $11
+            (i32.xor
+             (get_local $11)
+             (i32.const 32)
+            )
+           )
+          )
+          (block
+           (set_local $12
+            (call $~lib/internal/string/findRow
+             (get_local $4)
+             (i32.const 4)
+             (i32.const 0)
+             (get_local $10)
+            )
+           )
+           (if
+            (i32.ge_s
+             (get_local $12)
+             (i32.const 0)
+            )
+            (block
+             (block $break|2
+              (set_local $13
+               (i32.const 1)
+              )
+              (loop $repeat|2
+               (br_if $break|2
+                (i32.eqz
+                 (i32.lt_s
+                  (get_local $13)
+                  (i32.const 4)
+                 )
+                )
+               )
+               (block
+                (set_local $14
+                 (call $~lib/array/Array<i32>#__get
+                  (get_local $4)
+                  (i32.add
+                   (get_local $12)
+                   (get_local $13)
+                  )
+                 )
+                )
+                (if
+                 (i32.eqz
+                  (get_local $14)
+                 )
+                 (br $break|2)
+                )
+                (if
+                 (get_local $6)
+                 (i32.store16 offset=4
+                  (i32.add
+                   (get_local $6)
+                   (i32.shl
+                    (get_local $8)
+                    (i32.const 1)
+                   )
+                  )
+                  (get_local $14)
+                 )
+                )
+                (set_local $8
+                 (i32.add
+                  (get_local $8)
+                  (i32.const 1)
+                 )
+                )
+               )
+               (set_local $13
+                (i32.add
+                 (get_local $13)
+                 (i32.const 1)
+                )
+               )
+               (br $repeat|2)
+              )
+             )
+             (set_local $9
+              (i32.add
+               (get_local $9)
+               (i32.add
+                (i32.const 1)
+                (i32.ge_s
+                 (get_local $10)
+                 (i32.const 65536)
+                )
+               )
+              )
+             )
+             (set_local $5
+              (i32.const 1)
+             )
+             (br $continue|1)
+            )
+           )
+           (if
+            (if (result i32)
+             (tee_local $13
+              (if (result i32)
+               (tee_local $13
+                (i32.eqz
+                 (i32.and
+                  (get_local $1)
+                  (i32.const 1)
+                 )
+                )
+               )
+               (i32.eq
+                (get_local $10)
+                (i32.const 931)
+               )
+               (get_local $13)
+              )
+             )
+             (call $~lib/internal/string/isFinalSigma
+              (get_local $0)
+              (get_local $9)
+              (get_local $2)
+             )
+             (get_local $13)
+            )
+            (set_local $11
+             (i32.const 962)
+            )
+            (block
+             (set_local $12
+              (call $~lib/internal/string/findRow
+               (get_local $3)
+               (i32.const 4)
+               (i32.const 1)
+               (get_local $10)
+              )
+             )
+             (if
+              (if (result i32)
+               (tee_local $13
+                (i32.ge_s
+                 (get_local $12)
+                 (i32.const 0)
+                )
+               )
+               (i32.eqz
+                (i32.rem_s
+                 (i32.sub
+                  (get_local $10)
+                  (call $~lib/array/Array<i32>#__get
+                   (get_local $3)
+                   (get_local $12)
+                  )
+                 )
+                 (call $~lib/array/Array<i32>#__get
+                  (get_local $3)
+                  (i32.add
+                   (get_local $12)
+                   (i32.const 2)
+                  )
+                 )
+                )
+               )
+               (get_local $13)
+              )
+              (set_local $11
+               (i32.add
+                (get_local $11)
+                (call $~lib/array/Array<i32>#__get
+                 (get_local $3)
+                 (i32.add
+                  (get_local $12)
+                  (i32.const 3)
+                 )
+                )
+               )
+              )
+             )
+            )
+           )
+          )
+         )
+         (if
+          (i32.lt_s
+           (get_local $11)
+           (i32.const 65536)
+          )
+          (block
+           (if
+            (get_local $6)
+            (i32.store16 offset=4
+             (i32.add
+              (get_local $6)
+              (i32.shl
+               (get_local $8)
+               (i32.const 1)
+              )
+             )
+             (get_local $11)
+            )
+           )
+           (set_local $8
+            (i32.add
+             (get_local $8)
+             (i32.const 1)
+            )
+           )
+          )
+          (block
+           (if
+            (get_local $6)
+            (block
+             (set_local $11
+              (i32.sub
+               (get_local $11)
+               (i32.const 65536)
+              )
+             )
+             (i32.store16 offset=4
+              (i32.add
+               (get_local $6)
+               (i32.shl
+                (get_local $8)
+                (i32.const 1)
+               )
+              )
+              (i32.add
+               (i32.shr_u
+                (get_local $11)
+                (i32.const 10)
+               )
+               (i32.const 55296)
+              )
+             )
+             (i32.store16 offset=6
+              (i32.add
+               (get_local $6)
+               (i32.shl
+                (get_local $8)
+                (i32.const 1)
+               )
+              )
+              (i32.add
+               (i32.and
+                (get_local $11)
+                (i32.const 1023)
+               )
+               (i32.const 56320)
+              )
+             )
+            )
+           )
+           (set_local $8
+            (i32.add
+             (get_local $8)
+             (i32.const 2)
+            )
+           )
+          )
+         )
+         (if
+          (i32.ne
+           (get_local $11)
+           (get_local $10)
+          )
+          (set_local $5
+           (i32.const 1)
+          )
+         )
+         (set_local $9
+          (i32.add
+           (get_local $9)
+           (i32.add
+            (i32.const 1)
+            (i32.ge_s
+             (get_local $10)
+             (i32.const 65536)
+            )
+           )
+          )
+         )
+        )
+       )
+       (br $repeat|1)
+      )
+     )
+     (if
+      (i32.eqz
+       (get_local $6)
+      )
+      (block
+       (if
+        (i32.eqz
+         (get_local $5)
+        )
+        (return
+         (get_local $0)
+        )
+       )
+       (set_local $6
+        (call $~lib/internal/string/allocateUnsafe
+         (get_local $8)
+        )
+       )
+      )
+     )
+    )
+    (set_local $7
+     (i32.add
+      (get_local $7)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $6)
+ )
+ (func $~lib/string/String#toLowerCase (; 25 ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eqz
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 232)
+     (i32.const 565)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/internal/string/toCaseUnsafe
+   (get_local $0)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/encoding/resolveLabel (; 26 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $0
+   (call $~lib/string/String#toLowerCase
+    (call $~lib/string/String#trim
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $1
+     (if (result i32)
+      (tee_local $1
+       (if (result i32)
+        (tee_local $1
+         (if (result i32)
+          (tee_local $1
+           (if (result i32)
+            (tee_local $1
+             (call $~lib/string/String.__eq
+              (get_local $0)
+              (i32.const 8)
+             )
+            )
+            (get_local $1)
+            (call $~lib/string/String.__eq
+             (get_local $0)
+             (i32.const 16784)
+            )
+           )
+          )
+          (get_local $1)
+          (call $~lib/string/String.__eq
+           (get_local $0)
+           (i32.const 16800)
+          )
+         )
+        )
+        (get_local $1)
+        (call $~lib/string/String.__eq
+         (get_local $0)
+         (i32.const 16840)
+        )
+       )
+      )
+      (get_local $1)
+      (call $~lib/string/String.__eq
+       (get_local $0)
+       (i32.const 16872)
+      )
+     )
+    )
+    (get_local $1)
+    (call $~lib/string/String.__eq
+     (get_local $0)
+     (i32.const 16904)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $1
+     (if (result i32)
+      (tee_local $1
+       (if (result i32)
+        (tee_local $1
+         (if (result i32)
+          (tee_local $1
+           (if (result i32)
+            (tee_local $1
+             (if (result i32)
+              (tee_local $1
+               (call $~lib/string/String.__eq
+                (get_local $0)
+                (i32.const 16944)
+               )
+              )
+              (get_local $1)
+              (call $~lib/string/String.__eq
+               (get_local $0)
+               (i32.const 16968)
+              )
+             )
+            )
+            (get_local $1)
+            (call $~lib/string/String.__eq
+             (get_local $0)
+             (i32.const 16984)
+            )
+           )
+          )
+          (get_local $1)
+          (call $~lib/string/String.__eq
+           (get_local $0)
+           (i32.const 17008)
+          )
+         )
+        )
+        (get_local $1)
+        (call $~lib/string/String.__eq
+         (get_local $0)
+         (i32.const 17040)
+        )
+       )
+      )
+      (get_local $1)
+      (call $~lib/string/String.__eq
+       (get_local $0)
+       (i32.const 17056)
+      )
+     )
+    )
+    (get_local $1)
+    (call $~lib/string/String.__eq
+     (get_local $0)
+     (i32.const 17080)
+    )
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $1
+     (if (result i32)
+      (tee_local $1
+       (if (result i32)
+        (tee_local $1
+         (if (result i32)
+          (tee_local $1
+           (if (result i32)
+            (tee_local $1
+             (if (result i32)
+              (tee_local $1
+               (if (result i32)
+                (tee_local $1
+                 (if (result i32)
+                  (tee_local $1
+                   (if (result i32)
+                    (tee_local $1
+                     (if (result i32)
+                      (tee_local $1
+                       (if (result i32)
+                        (tee_local $1
+                         (if (result i32)
+                          (tee_local $1
+                           (if (result i32)
+                            (tee_local $1
+                             (if (result i32)
+                              (tee_local $1
+                               (if (result i32)
+                                (tee_local $1
+                                 (if (result i32)
+                                  (tee_local $1
+                                   (call $~lib/string/String.__eq
+                                    (get_local $0)
+                                    (i32.const 17120)
+                                   )
+                                  )
+                                  (get_local $1)
+                                  (call $~lib/string/String.__eq
+                                   (get_local $0)
+                                   (i32.const 17152)
+                                  )
+                                 )
+                                )
+                                (get_local $1)
+                                (call $~lib/string/String.__eq
+                                 (get_local $0)
+                                 (i32.const 17168)
+                                )
+                               )
+                              )
+                              (get_local $1)
+                              (call $~lib/string/String.__eq
+                               (get_local $0)
+                               (i32.const 17192)
+                              )
+                             )
+                            )
+                            (get_local $1)
+                            (call $~lib/string/String.__eq
+                             (get_local $0)
+                             (i32.const 17208)
+                            )
+                           )
+                          )
+                          (get_local $1)
+                          (call $~lib/string/String.__eq
+                           (get_local $0)
+                           (i32.const 17232)
+                          )
+                         )
+                        )
+                        (get_local $1)
+                        (call $~lib/string/String.__eq
+                         (get_local $0)
+                         (i32.const 17240)
+                        )
+                       )
+                      )
+                      (get_local $1)
+                      (call $~lib/string/String.__eq
+                       (get_local $0)
+                       (i32.const 17256)
+                      )
+                     )
+                    )
+                    (get_local $1)
+                    (call $~lib/string/String.__eq
+                     (get_local $0)
+                     (i32.const 17280)
+                    )
+                   )
+                  )
+                  (get_local $1)
+                  (call $~lib/string/String.__eq
+                   (get_local $0)
+                   (i32.const 17296)
+                  )
+                 )
+                )
+                (get_local $1)
+                (call $~lib/string/String.__eq
+                 (get_local $0)
+                 (i32.const 17312)
+                )
+               )
+              )
+              (get_local $1)
+              (call $~lib/string/String.__eq
+               (get_local $0)
+               (i32.const 17336)
+              )
+             )
+            )
+            (get_local $1)
+            (call $~lib/string/String.__eq
+             (get_local $0)
+             (i32.const 17360)
+            )
+           )
+          )
+          (get_local $1)
+          (call $~lib/string/String.__eq
+           (get_local $0)
+           (i32.const 17384)
+          )
+         )
+        )
+        (get_local $1)
+        (call $~lib/string/String.__eq
+         (get_local $0)
+         (i32.const 17424)
+        )
+       )
+      )
+      (get_local $1)
+      (call $~lib/string/String.__eq
+       (get_local $0)
+       (i32.const 17448)
+      )
+     )
+    )
+    (get_local $1)
+    (call $~lib/string/String.__eq
+     (get_local $0)
+     (i32.const 17480)
+    )
+   )
+   (return
+    (i32.const 2)
+   )
+  )
+  (call $~lib/env/abort
+   (i32.const 0)
+   (i32.const 17512)
+   (i32.const 36)
+   (i32.const 2)
+  )
+  (unreachable)
+ )
+ (func $~lib/encoding/TextDecoder#constructor (; 27 ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $4
+   (call $~lib/encoding/resolveLabel
+    (get_local $1)
+   )
+  )
+  (i32.store offset=8
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $5
+        (call $~lib/memory/memory.allocate
+         (i32.const 12)
+        )
+       )
+       (i32.store
+        (get_local $5)
+        (i32.const 0)
+       )
+       (i32.store8 offset=4
+        (get_local $5)
+        (i32.const 0)
+       )
+       (i32.store8 offset=5
+        (get_local $5)
+        (i32.const 0)
+       )
+       (i32.store offset=8
+        (get_local $5)
+        (i32.const 0)
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (get_local $0)
+   (if (result i32)
+    (i32.eq
+     (get_local $4)
+     (i32.const 0)
+    )
+    (i32.const 8)
+    (if (result i32)
+     (i32.eq
+      (get_local $4)
+      (i32.const 1)
+     )
+     (i32.const 16944)
+     (i32.const 17120)
+    )
+   )
+  )
+  (i32.store8 offset=4
+   (get_local $0)
+   (i32.and
+    (get_local $2)
+    (i32.const 1)
+   )
+  )
+  (i32.store8 offset=5
+   (get_local $0)
+   (i32.and
+    (get_local $3)
+    (i32.const 1)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/encoding/invalidData (; 28 ;) (type $v)
+  (call $~lib/env/abort
+   (i32.const 0)
+   (i32.const 17552)
+   (i32.const 22)
+   (i32.const 2)
+  )
+  (unreachable)
+ )
+ (func $~lib/allocator/arena/__memory_free (; 29 ;) (type $iv) (param $0 i32)
+  (nop)
+ )
+ (func $~lib/internal/encoding/decodeUTF8Unsafe (; 30 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (local $13 i32)
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (return
+    (i32.const 192)
+   )
+  )
+  (set_local $4
+   (block $~lib/memory/memory.allocate|inlined.2 (result i32)
+    (set_local $3
+     (i32.shl
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (br $~lib/memory/memory.allocate|inlined.2
+     (call $~lib/allocator/arena/__memory_allocate
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (set_local $5
+   (i32.add
+    (get_local $0)
+    (get_local $1)
+   )
+  )
+  (set_local $6
+   (i32.const 0)
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_u
+      (get_local $0)
+      (get_local $5)
+     )
+     (block
+      (block
+       (set_local $3
+        (i32.load8_u
+         (block (result i32)
+          (set_local $3
+           (get_local $0)
+          )
+          (set_local $0
+           (i32.add
+            (get_local $3)
+            (i32.const 1)
+           )
+          )
+          (get_local $3)
+         )
+        )
+       )
+       (if
+        (i32.ge_u
+         (get_local $3)
+         (i32.const 128)
+        )
+        (block
+         (set_local $7
+          (i32.const 0)
+         )
+         (set_local $8
+          (i32.const 128)
+         )
+         (set_local $9
+          (i32.const 191)
+         )
+         (if
+          (if (result i32)
+           (tee_local $10
+            (i32.ge_u
+             (get_local $3)
+             (i32.const 194)
+            )
+           )
+           (i32.le_u
+            (get_local $3)
+            (i32.const 223)
+           )
+           (get_local $10)
+          )
+          (block
+           (set_local $7
+            (i32.const 1)
+           )
+           (set_local $3
+            (i32.and
+             (get_local $3)
+             (i32.const 31)
+            )
+           )
+          )
+          (if
+           (if (result i32)
+            (tee_local $10
+             (i32.ge_u
+              (get_local $3)
+              (i32.const 224)
+             )
+            )
+            (i32.le_u
+             (get_local $3)
+             (i32.const 239)
+            )
+            (get_local $10)
+           )
+           (block
+            (if
+             (i32.eq
+              (get_local $3)
+              (i32.const 224)
+             )
+             (set_local $8
+              (i32.const 160)
+             )
+             (if
+              (i32.eq
+               (get_local $3)
+               (i32.const 237)
+              )
+              (set_local $9
+               (i32.const 159)
+              )
+             )
+            )
+            (set_local $7
+             (i32.const 2)
+            )
+            (set_local $3
+             (i32.and
+              (get_local $3)
+              (i32.const 15)
+             )
+            )
+           )
+           (if
+            (if (result i32)
+             (tee_local $10
+              (i32.ge_u
+               (get_local $3)
+               (i32.const 240)
+              )
+             )
+             (i32.le_u
+              (get_local $3)
+              (i32.const 244)
+             )
+             (get_local $10)
+            )
+            (block
+             (if
+              (i32.eq
+               (get_local $3)
+               (i32.const 240)
+              )
+              (set_local $8
+               (i32.const 144)
+              )
+              (if
+               (i32.eq
+                (get_local $3)
+                (i32.const 244)
+               )
+               (set_local $9
+                (i32.const 143)
+               )
+              )
+             )
+             (set_local $7
+              (i32.const 3)
+             )
+             (set_local $3
+              (i32.and
+               (get_local $3)
+               (i32.const 7)
+              )
+             )
+            )
+           )
+          )
+         )
+         (set_local $10
+          (i32.ne
+           (get_local $7)
+           (i32.const 0)
+          )
+         )
+         (block $break|1
+          (loop $repeat|1
+           (br_if $break|1
+            (i32.eqz
+             (get_local $7)
+            )
+           )
+           (block
+            (set_local $11
+             (if (result i32)
+              (i32.lt_u
+               (get_local $0)
+               (get_local $5)
+              )
+              (i32.load8_u
+               (get_local $0)
+              )
+              (i32.const 0)
+             )
+            )
+            (if
+             (if (result i32)
+              (tee_local $12
+               (i32.lt_u
+                (get_local $11)
+                (get_local $8)
+               )
+              )
+              (get_local $12)
+              (i32.gt_u
+               (get_local $11)
+               (get_local $9)
+              )
+             )
+             (block
+              (set_local $10
+               (i32.const 0)
+              )
+              (br $break|1)
+             )
+            )
+            (set_local $3
+             (i32.or
+              (i32.shl
+               (get_local $3)
+               (i32.const 6)
+              )
+              (i32.and
+               (get_local $11)
+               (i32.const 63)
+              )
+             )
+            )
+            (set_local $8
+             (i32.const 128)
+            )
+            (set_local $9
+             (i32.const 191)
+            )
+            (set_local $0
+             (i32.add
+              (get_local $0)
+              (i32.const 1)
+             )
+            )
+           )
+           (set_local $7
+            (i32.sub
+             (get_local $7)
+             (i32.const 1)
+            )
+           )
+           (br $repeat|1)
+          )
+         )
+         (if
+          (i32.eqz
+           (get_local $10)
+          )
+          (block
+           (if
+            (i32.and
+             (get_local $2)
+             (i32.const 1)
+            )
+            (call $~lib/internal/encoding/invalidData)
+           )
+           (set_local $3
+            (get_global $~lib/internal/encoding/REPLACEMENT_CHARACTER)
+           )
+          )
+         )
+        )
+       )
+       (if
+        (i32.lt_u
+         (get_local $3)
+         (i32.const 65536)
+        )
+        (block
+         (i32.store16
+          (i32.add
+           (get_local $4)
+           (i32.shl
+            (get_local $6)
+            (i32.const 1)
+           )
+          )
+          (get_local $3)
+         )
+         (set_local $6
+          (i32.add
+           (get_local $6)
+           (i32.const 1)
+          )
+         )
+        )
+        (block
+         (set_local $3
+          (i32.sub
+           (get_local $3)
+           (i32.const 65536)
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $4)
+           (i32.shl
+            (get_local $6)
+            (i32.const 1)
+           )
+          )
+          (i32.or
+           (i32.shl
+            (i32.add
+             (i32.and
+              (get_local $3)
+              (i32.const 1023)
+             )
+             (i32.const 56320)
+            )
+            (i32.const 16)
+           )
+           (i32.add
+            (i32.shr_u
+             (get_local $3)
+             (i32.const 10)
+            )
+            (i32.const 55296)
+           )
+          )
+         )
+         (set_local $6
+          (i32.add
+           (get_local $6)
+           (i32.const 2)
+          )
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (set_local $13
+   (call $~lib/internal/string/allocateUnsafe
+    (get_local $6)
+   )
+  )
+  (block $~lib/memory/memory.copy|inlined.1
+   (set_local $3
+    (i32.add
+     (get_local $13)
+     (get_global $~lib/internal/string/HEADER_SIZE)
+    )
+   )
+   (set_local $10
+    (i32.shl
+     (get_local $6)
+     (i32.const 1)
+    )
+   )
+   (call $~lib/internal/memory/memmove
+    (get_local $3)
+    (get_local $4)
+    (get_local $10)
+   )
+  )
+  (block $~lib/memory/memory.free|inlined.0
+   (block
+    (call $~lib/allocator/arena/__memory_free
+     (get_local $4)
+    )
+    (br $~lib/memory/memory.free|inlined.0)
+   )
+  )
+  (get_local $13)
+ )
+ (func $~lib/internal/encoding/decodeUTF16LEUnsafe (; 31 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (return
+    (i32.const 192)
+   )
+  )
+  (set_local $3
+   (i32.shr_u
+    (get_local $1)
+    (i32.const 1)
+   )
+  )
+  (set_local $4
+   (call $~lib/internal/string/allocateUnsafe
+    (i32.shr_u
+     (i32.add
+      (get_local $1)
+      (i32.const 1)
+     )
+     (i32.const 1)
+    )
+   )
+  )
+  (set_local $5
+   (i32.add
+    (get_local $4)
+    (get_global $~lib/internal/string/HEADER_SIZE)
+   )
+  )
+  (set_local $6
+   (i32.const 0)
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_u
+      (get_local $6)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $7
+        (i32.load16_u
+         (i32.add
+          (get_local $0)
+          (i32.shl
+           (get_local $6)
+           (i32.const 1)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eq
+         (i32.and
+          (get_local $7)
+          (i32.const 63488)
+         )
+         (i32.const 55296)
+        )
+        (block
+         (if
+          (if (result i32)
+           (tee_local $8
+            (if (result i32)
+             (tee_local $8
+              (i32.le_u
+               (get_local $7)
+               (i32.const 56319)
+              )
+             )
+             (i32.lt_u
+              (i32.add
+               (get_local $6)
+               (i32.const 1)
+              )
+              (get_local $3)
+             )
+             (get_local $8)
+            )
+           )
+           (i32.eq
+            (i32.and
+             (i32.load16_u
+              (i32.add
+               (get_local $0)
+               (i32.shl
+                (i32.add
+                 (get_local $6)
+                 (i32.const 1)
+                )
+                (i32.const 1)
+               )
+              )
+             )
+             (i32.const 64512)
+            )
+            (i32.const 56320)
+           )
+           (get_local $8)
+          )
+          (block
+           (i32.store
+            (i32.add
+             (get_local $5)
+             (i32.shl
+              (get_local $6)
+              (i32.const 1)
+             )
+            )
+            (i32.load
+             (i32.add
+              (get_local $0)
+              (i32.shl
+               (get_local $6)
+               (i32.const 1)
+              )
+             )
+            )
+           )
+           (set_local $6
+            (i32.add
+             (get_local $6)
+             (i32.const 2)
+            )
+           )
+           (br $continue|0)
+          )
+         )
+         (if
+          (i32.and
+           (get_local $2)
+           (i32.const 1)
+          )
+          (call $~lib/internal/encoding/invalidData)
+         )
+         (set_local $7
+          (get_global $~lib/internal/encoding/REPLACEMENT_CHARACTER)
+         )
+        )
+       )
+       (i32.store16
+        (i32.add
+         (get_local $5)
+         (i32.shl
+          (get_local $6)
+          (i32.const 1)
+         )
+        )
+        (get_local $7)
+       )
+       (set_local $6
+        (i32.add
+         (get_local $6)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $1)
+    (i32.const 1)
+   )
+   (block
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 1)
+     )
+     (call $~lib/internal/encoding/invalidData)
+    )
+    (i32.store16
+     (i32.add
+      (get_local $5)
+      (i32.shl
+       (get_local $3)
+       (i32.const 1)
+      )
+     )
+     (get_global $~lib/internal/encoding/REPLACEMENT_CHARACTER)
+    )
+   )
+  )
+  (get_local $4)
+ )
+ (func $~lib/array/Array<u16>#__unchecked_get (; 32 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (block $~lib/internal/arraybuffer/loadUnsafe<u16,u16>|inlined.0 (result i32)
+   (set_local $2
+    (i32.load
+     (get_local $0)
+    )
+   )
+   (i32.load16_u offset=8
+    (i32.add
+     (get_local $2)
+     (i32.shl
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/encoding/decodeWindows1252Unsafe (; 33 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (return
+    (i32.const 192)
+   )
+  )
+  (set_local $2
+   (call $~lib/internal/string/allocateUnsafe
+    (get_local $1)
+   )
+  )
+  (set_local $3
+   (i32.add
+    (get_local $2)
+    (get_global $~lib/internal/string/HEADER_SIZE)
+   )
+  )
+  (set_local $4
+   (block $~lib/internal/encoding/WINDOWS_1252|inlined.0 (result i32)
+    (i32.const 17736)
+   )
+  )
+  (block $break|0
+   (set_local $5
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_u
+       (get_local $5)
+       (get_local $1)
+      )
+     )
+    )
+    (block
+     (set_local $6
+      (i32.load8_u
+       (i32.add
+        (get_local $0)
+        (get_local $5)
+       )
+      )
+     )
+     (if
+      (i32.eq
+       (i32.and
+        (get_local $6)
+        (i32.const 224)
+       )
+       (i32.const 128)
+      )
+      (set_local $6
+       (i32.and
+        (call $~lib/array/Array<u16>#__unchecked_get
+         (get_local $4)
+         (i32.and
+          (get_local $6)
+          (i32.const 31)
+         )
+        )
+        (i32.const 65535)
+       )
+      )
+     )
+     (i32.store16
+      (i32.add
+       (get_local $3)
+       (i32.shl
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $6)
+     )
+    )
+    (set_local $5
+     (i32.add
+      (get_local $5)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $2)
+ )
+ (func $~lib/encoding/TextDecoder#decode (; 34 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $2
+   (i32.add
+    (i32.add
+     (i32.load
+      (get_local $1)
+     )
+     (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+    )
+    (i32.load offset=4
+     (get_local $1)
+    )
+   )
+  )
+  (set_local $3
+   (block $~lib/internal/typedarray/TypedArray<u8,u32>#get:length|inlined.3 (result i32)
+    (i32.shr_s
+     (i32.sub
+      (i32.load offset=8
+       (get_local $1)
+      )
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+     (i32.const 0)
+    )
+   )
+  )
+  (block $break|0
+   (block $case2|0
+    (block $case1|0
+     (block $case0|0
+      (set_local $4
+       (i32.load offset=8
+        (get_local $0)
+       )
+      )
+      (br_if $case0|0
+       (i32.eq
+        (get_local $4)
+        (i32.const 0)
+       )
+      )
+      (br_if $case1|0
+       (i32.eq
+        (get_local $4)
+        (i32.const 1)
+       )
+      )
+      (br $case2|0)
+     )
+     (block
+      (if
+       (if (result i32)
+        (tee_local $4
+         (if (result i32)
+          (tee_local $4
+           (if (result i32)
+            (tee_local $4
+             (i32.eqz
+              (i32.load8_u offset=5
+               (get_local $0)
+              )
+             )
+            )
+            (i32.ge_u
+             (get_local $3)
+             (i32.const 3)
+            )
+            (get_local $4)
+           )
+          )
+          (i32.eq
+           (i32.load16_u
+            (get_local $2)
+           )
+           (i32.const 48111)
+          )
+          (get_local $4)
+         )
+        )
+        (i32.eq
+         (i32.load8_u offset=2
+          (get_local $2)
+         )
+         (i32.const 191)
+        )
+        (get_local $4)
+       )
+       (block
+        (set_local $2
+         (i32.add
+          (get_local $2)
+          (i32.const 3)
+         )
+        )
+        (set_local $3
+         (i32.sub
+          (get_local $3)
+          (i32.const 3)
+         )
+        )
+       )
+      )
+      (return
+       (call $~lib/internal/encoding/decodeUTF8Unsafe
+        (get_local $2)
+        (get_local $3)
+        (i32.load8_u offset=4
+         (get_local $0)
+        )
+       )
+      )
+     )
+    )
+    (block
+     (if
+      (if (result i32)
+       (tee_local $4
+        (if (result i32)
+         (tee_local $4
+          (i32.eqz
+           (i32.load8_u offset=5
+            (get_local $0)
+           )
+          )
+         )
+         (i32.ge_u
+          (get_local $3)
+          (i32.const 2)
+         )
+         (get_local $4)
+        )
+       )
+       (i32.eq
+        (i32.load16_u
+         (get_local $2)
+        )
+        (i32.const 65279)
+       )
+       (get_local $4)
+      )
+      (block
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 2)
+        )
+       )
+       (set_local $3
+        (i32.sub
+         (get_local $3)
+         (i32.const 2)
+        )
+       )
+      )
+     )
+     (return
+      (call $~lib/internal/encoding/decodeUTF16LEUnsafe
+       (get_local $2)
+       (get_local $3)
+       (i32.load8_u offset=4
+        (get_local $0)
+       )
+      )
+     )
+    )
+   )
+   (return
+    (call $~lib/internal/encoding/decodeWindows1252Unsafe
+     (get_local $2)
+     (get_local $3)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/array/Array<u8>#__get (; 35 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if (result i32)
+   (i32.lt_u
+    (get_local $1)
+    (i32.shr_u
+     (i32.load
+      (get_local $2)
+     )
+     (i32.const 0)
+    )
+   )
+   (block $~lib/internal/arraybuffer/loadUnsafe<u8,u8>|inlined.0 (result i32)
+    (i32.load8_u offset=8
+     (i32.add
+      (get_local $2)
+      (i32.shl
+       (get_local $1)
+       (i32.const 0)
+      )
+     )
+    )
+   )
+   (unreachable)
+  )
+ )
+ (func $~lib/internal/typedarray/TypedArray<u8,u32>#__set (; 36 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.shr_u
+    (i32.sub
+     (i32.load offset=8
+      (get_local $0)
+     )
+     (get_local $3)
+    )
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (get_local $4)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 64)
+     (i32.const 64)
+     (i32.const 42)
+    )
+    (unreachable)
+   )
+  )
+  (block $~lib/internal/arraybuffer/storeUnsafeWithOffset<u8,u32>|inlined.0
+   (set_local $5
+    (i32.load
+     (get_local $0)
+    )
+   )
+   (i32.store8 offset=8
+    (i32.add
+     (i32.add
+      (get_local $5)
+      (get_local $3)
+     )
+     (i32.shl
+      (get_local $1)
+      (i32.const 0)
+     )
+    )
+    (get_local $2)
+   )
+  )
+ )
+ (func $std/encoding/bytes (; 37 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (set_local $1
+   (call $~lib/internal/typedarray/TypedArray<u8,u32>#constructor
+    (i32.const 0)
+    (block $~lib/array/Array<u8>#get:length|inlined.0 (result i32)
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+   )
+  )
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $2)
+       (block $~lib/array/Array<u8>#get:length|inlined.2 (result i32)
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+      )
+     )
+    )
+    (call $~lib/internal/typedarray/TypedArray<u8,u32>#__set
+     (get_local $1)
+     (get_local $2)
+     (i32.and
+      (call $~lib/array/Array<u8>#__get
+       (get_local $0)
+       (get_local $2)
+      )
+      (i32.const 255)
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $1)
+ )
+ (func $~lib/typedarray/Uint8Array#subarray (; 38 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (block $~lib/internal/typedarray/SUBARRAY<Uint8Array,u8,u32>|inlined.0 (result i32)
+   (set_local $3
+    (call $~lib/internal/typedarray/TypedArray<u8,u32>#constructor
+     (i32.const 0)
+     (i32.const 0)
+    )
+   )
+   (set_local $4
+    (block $~lib/internal/typedarray/TypedArray<u8,u32>#get:length|inlined.4 (result i32)
+     (i32.shr_s
+      (i32.sub
+       (i32.load offset=8
+        (get_local $0)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (i32.const 0)
+     )
+    )
+   )
+   (if
+    (i32.lt_s
+     (get_local $1)
+     (i32.const 0)
+    )
+    (set_local $1
+     (select
+      (tee_local $5
+       (i32.add
+        (get_local $4)
+        (get_local $1)
+       )
+      )
+      (tee_local $6
+       (i32.const 0)
+      )
+      (i32.gt_s
+       (get_local $5)
+       (get_local $6)
+      )
+     )
+    )
+    (set_local $1
+     (select
+      (tee_local $5
+       (get_local $1)
+      )
+      (tee_local $6
+       (get_local $4)
+      )
+      (i32.lt_s
+       (get_local $5)
+       (get_local $6)
+      )
+     )
+    )
+   )
+   (if
+    (i32.lt_s
+     (get_local $2)
+     (i32.const 0)
+    )
+    (set_local $2
+     (select
+      (tee_local $5
+       (i32.add
+        (get_local $4)
+        (get_local $2)
+       )
+      )
+      (tee_local $6
+       (get_local $1)
+      )
+      (i32.gt_s
+       (get_local $5)
+       (get_local $6)
+      )
+     )
+    )
+    (set_local $2
+     (select
+      (tee_local $5
+       (select
+        (tee_local $5
+         (get_local $2)
+        )
+        (tee_local $6
+         (get_local $4)
+        )
+        (i32.lt_s
+         (get_local $5)
+         (get_local $6)
+        )
+       )
+      )
+      (tee_local $6
+       (get_local $1)
+      )
+      (i32.gt_s
+       (get_local $5)
+       (get_local $6)
+      )
+     )
+    )
+   )
+   (set_local $5
+    (i32.load offset=4
+     (get_local $0)
+    )
+   )
+   (i32.store
+    (get_local $3)
+    (i32.load
+     (get_local $0)
+    )
+   )
+   (i32.store offset=4
+    (get_local $3)
+    (i32.add
+     (get_local $5)
+     (i32.shl
+      (get_local $1)
+      (i32.const 0)
+     )
+    )
+   )
+   (i32.store offset=8
+    (get_local $3)
+    (i32.add
+     (get_local $5)
+     (i32.shl
+      (get_local $2)
+      (i32.const 0)
+     )
+    )
+   )
+   (get_local $3)
+  )
+ )
+ (func $start (; 39 ;) (type $v)
+  (local $0 i32)
+  (set_global $~lib/allocator/arena/startOffset
+   (i32.and
+    (i32.add
+     (get_global $HEAP_BASE)
+     (get_global $~lib/internal/allocator/AL_MASK)
+    )
+    (i32.xor
+     (get_global $~lib/internal/allocator/AL_MASK)
+     (i32.const -1)
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_global $~lib/allocator/arena/startOffset)
+  )
+  (set_global $std/encoding/encoder
+   (block (result i32)
+    (set_local $0
+     (call $~lib/memory/memory.allocate
+      (i32.const 4)
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (i32.const 8)
+    )
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (i32.load
+      (get_global $std/encoding/encoder)
+     )
+     (i32.const 8)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 12)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block $~lib/internal/typedarray/TypedArray<u8,u32>#get:length|inlined.0 (result i32)
+      (set_local $0
+       (call $~lib/encoding/TextEncoder#encode
+        (get_global $std/encoding/encoder)
+        (i32.const 192)
+       )
+      )
+      (i32.shr_s
+       (i32.sub
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (i32.const 0)
+      )
+     )
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 13)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/encoding/encoded
+   (call $~lib/encoding/TextEncoder#encode
+    (get_global $std/encoding/encoder)
+    (i32.const 200)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block $~lib/internal/typedarray/TypedArray<u8,u32>#get:length|inlined.1 (result i32)
+      (set_local $0
+       (get_global $std/encoding/encoded)
+      )
+      (i32.shr_s
+       (i32.sub
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (i32.const 0)
+      )
+     )
+     (i32.const 8)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 15)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.and
+      (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
+       (get_global $std/encoding/encoded)
+       (i32.const 0)
+      )
+      (i32.const 255)
+     )
+     (i32.const 97)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 16)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $0
+      (if (result i32)
+       (tee_local $0
+        (i32.eq
+         (i32.and
+          (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
+           (get_global $std/encoding/encoded)
+           (i32.const 1)
+          )
+          (i32.const 255)
+         )
+         (i32.const 226)
+        )
+       )
+       (i32.eq
+        (i32.and
+         (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
+          (get_global $std/encoding/encoded)
+          (i32.const 2)
+         )
+         (i32.const 255)
+        )
+        (i32.const 130)
+       )
+       (get_local $0)
+      )
+     )
+     (i32.eq
+      (i32.and
+       (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
+        (get_global $std/encoding/encoded)
+        (i32.const 3)
+       )
+       (i32.const 255)
+      )
+      (i32.const 172)
+     )
+     (get_local $0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 17)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $0
+      (if (result i32)
+       (tee_local $0
+        (if (result i32)
+         (tee_local $0
+          (i32.eq
+           (i32.and
+            (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
+             (get_global $std/encoding/encoded)
+             (i32.const 4)
+            )
+            (i32.const 255)
+           )
+           (i32.const 240)
+          )
+         )
+         (i32.eq
+          (i32.and
+           (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
+            (get_global $std/encoding/encoded)
+            (i32.const 5)
+           )
+           (i32.const 255)
+          )
+          (i32.const 144)
+         )
+         (get_local $0)
+        )
+       )
+       (i32.eq
+        (i32.and
+         (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
+          (get_global $std/encoding/encoded)
+          (i32.const 6)
+         )
+         (i32.const 255)
+        )
+        (i32.const 144)
+       )
+       (get_local $0)
+      )
+     )
+     (i32.eq
+      (i32.and
+       (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
+        (get_global $std/encoding/encoded)
+        (i32.const 7)
+       )
+       (i32.const 255)
+      )
+      (i32.const 183)
+     )
+     (get_local $0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 18)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/encoding/lone
+   (call $~lib/encoding/TextEncoder#encode
+    (get_global $std/encoding/encoder)
+    (i32.const 216)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block $~lib/internal/typedarray/TypedArray<u8,u32>#get:length|inlined.2 (result i32)
+      (set_local $0
+       (get_global $std/encoding/lone)
+      )
+      (i32.shr_s
+       (i32.sub
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (i32.const 0)
+      )
+     )
+     (i32.const 7)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 22)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $0
+      (if (result i32)
+       (tee_local $0
+        (i32.eq
+         (i32.and
+          (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
+           (get_global $std/encoding/lone)
+           (i32.const 0)
+          )
+          (i32.const 255)
+         )
+         (i32.const 239)
+        )
+       )
+       (i32.eq
+        (i32.and
+         (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
+          (get_global $std/encoding/lone)
+          (i32.const 1)
+         )
+         (i32.const 255)
+        )
+        (i32.const 191)
+       )
+       (get_local $0)
+      )
+     )
+     (i32.eq
+      (i32.and
+       (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
+        (get_global $std/encoding/lone)
+        (i32.const 2)
+       )
+       (i32.const 255)
+      )
+      (i32.const 189)
+     )
+     (get_local $0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 23)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.and
+      (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
+       (get_global $std/encoding/lone)
+       (i32.const 3)
+      )
+      (i32.const 255)
+     )
+     (i32.const 120)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 24)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $0
+      (if (result i32)
+       (tee_local $0
+        (i32.eq
+         (i32.and
+          (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
+           (get_global $std/encoding/lone)
+           (i32.const 4)
+          )
+          (i32.const 255)
+         )
+         (i32.const 239)
+        )
+       )
+       (i32.eq
+        (i32.and
+         (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
+          (get_global $std/encoding/lone)
+          (i32.const 5)
+         )
+         (i32.const 255)
+        )
+        (i32.const 191)
+       )
+       (get_local $0)
+      )
+     )
+     (i32.eq
+      (i32.and
+       (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
+        (get_global $std/encoding/lone)
+        (i32.const 6)
+       )
+       (i32.const 255)
+      )
+      (i32.const 189)
+     )
+     (get_local $0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 25)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/encoding/decoder
+   (call $~lib/encoding/TextDecoder#constructor
+    (i32.const 0)
+    (i32.const 8)
+    (i32.const 0)
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (i32.load
+      (get_global $std/encoding/decoder)
+     )
+     (i32.const 8)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 30)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eqz
+     (i32.load8_u offset=4
+      (get_global $std/encoding/decoder)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 31)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eqz
+     (i32.load8_u offset=5
+      (get_global $std/encoding/decoder)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 32)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/encoding/TextDecoder#decode
+      (get_global $std/encoding/decoder)
+      (get_global $std/encoding/encoded)
+     )
+     (i32.const 200)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 33)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/encoding/TextDecoder#decode
+      (get_global $std/encoding/decoder)
+      (call $std/encoding/bytes
+       (i32.const 17768)
+      )
+     )
+     (i32.const 192)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 34)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/encoding/TextDecoder#decode
+      (get_global $std/encoding/decoder)
+      (call $~lib/typedarray/Uint8Array#subarray
+       (get_global $std/encoding/encoded)
+       (i32.const 1)
+       (i32.const 4)
+      )
+     )
+     (i32.const 17776)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 35)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/encoding/TextDecoder#decode
+      (get_global $std/encoding/decoder)
+      (call $std/encoding/bytes
+       (i32.const 17824)
+      )
+     )
+     (i32.const 17832)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 38)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/encoding/TextDecoder#decode
+      (get_global $std/encoding/decoder)
+      (call $std/encoding/bytes
+       (i32.const 17880)
+      )
+     )
+     (i32.const 17888)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 39)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/encoding/TextDecoder#decode
+      (get_global $std/encoding/decoder)
+      (call $std/encoding/bytes
+       (i32.const 17944)
+      )
+     )
+     (i32.const 17952)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 40)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/encoding/TextDecoder#decode
+      (get_global $std/encoding/decoder)
+      (call $std/encoding/bytes
+       (i32.const 18008)
+      )
+     )
+     (i32.const 18016)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 41)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/encoding/TextDecoder#decode
+      (get_global $std/encoding/decoder)
+      (call $std/encoding/bytes
+       (i32.const 18072)
+      )
+     )
+     (i32.const 18080)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 42)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/encoding/TextDecoder#decode
+      (get_global $std/encoding/decoder)
+      (call $std/encoding/bytes
+       (i32.const 18136)
+      )
+     )
+     (i32.const 18144)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 43)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/encoding/TextDecoder#decode
+      (get_global $std/encoding/decoder)
+      (call $std/encoding/bytes
+       (i32.const 18192)
+      )
+     )
+     (i32.const 18200)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 46)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/encoding/keepBOM
+   (call $~lib/encoding/TextDecoder#constructor
+    (i32.const 0)
+    (i32.const 8)
+    (i32.const 0)
+    (i32.const 1)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/encoding/TextDecoder#decode
+      (get_global $std/encoding/keepBOM)
+      (call $std/encoding/bytes
+       (i32.const 18248)
+      )
+     )
+     (i32.const 18256)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 48)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/encoding/fatal
+   (call $~lib/encoding/TextDecoder#constructor
+    (i32.const 0)
+    (i32.const 8)
+    (i32.const 1)
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.load8_u offset=4
+     (get_global $std/encoding/fatal)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 52)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/encoding/TextDecoder#decode
+      (get_global $std/encoding/fatal)
+      (call $std/encoding/bytes
+       (i32.const 18304)
+      )
+     )
+     (i32.const 18312)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 53)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/encoding/labeled
+   (call $~lib/encoding/TextDecoder#constructor
+    (i32.const 0)
+    (i32.const 18320)
+    (i32.const 0)
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (i32.load
+      (get_global $std/encoding/labeled)
+     )
+     (i32.const 8)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 57)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/encoding/utf16
+   (call $~lib/encoding/TextDecoder#constructor
+    (i32.const 0)
+    (i32.const 16944)
+    (i32.const 0)
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (i32.load
+      (get_global $std/encoding/utf16)
+     )
+     (i32.const 16944)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 62)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/encoding/labeled
+   (call $~lib/encoding/TextDecoder#constructor
+    (i32.const 0)
+    (i32.const 16968)
+    (i32.const 0)
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (i32.load
+      (get_global $std/encoding/labeled)
+     )
+     (i32.const 16944)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 64)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/encoding/TextDecoder#decode
+      (get_global $std/encoding/utf16)
+      (call $std/encoding/bytes
+       (i32.const 18376)
+      )
+     )
+     (i32.const 200)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 65)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/encoding/TextDecoder#decode
+      (get_global $std/encoding/utf16)
+      (call $std/encoding/bytes
+       (i32.const 18424)
+      )
+     )
+     (i32.const 18432)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 66)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/encoding/TextDecoder#decode
+      (get_global $std/encoding/utf16)
+      (call $std/encoding/bytes
+       (i32.const 18480)
+      )
+     )
+     (i32.const 18488)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 67)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/encoding/TextDecoder#decode
+      (get_global $std/encoding/utf16)
+      (call $std/encoding/bytes
+       (i32.const 18544)
+      )
+     )
+     (i32.const 18552)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 68)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/encoding/latin1
+   (call $~lib/encoding/TextDecoder#constructor
+    (i32.const 0)
+    (i32.const 17152)
+    (i32.const 0)
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (i32.load
+      (get_global $std/encoding/latin1)
+     )
+     (i32.const 17120)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 73)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/encoding/labeled
+   (call $~lib/encoding/TextDecoder#constructor
+    (i32.const 0)
+    (i32.const 17192)
+    (i32.const 0)
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (i32.load
+      (get_global $std/encoding/labeled)
+     )
+     (i32.const 17120)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 75)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/encoding/TextDecoder#decode
+      (get_global $std/encoding/latin1)
+      (call $std/encoding/bytes
+       (i32.const 18600)
+      )
+     )
+     (i32.const 18608)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 76)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/encoding/TextDecoder#decode
+      (get_global $std/encoding/latin1)
+      (call $std/encoding/bytes
+       (i32.const 18664)
+      )
+     )
+     (i32.const 18672)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 77)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+ )
+)
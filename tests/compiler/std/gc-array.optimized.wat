@@ -8,6 +8,7 @@
  (type $iiiiv (func (param i32 i32 i32 i32)))
  (type $i (func (result i32)))
  (type $FUNCSIG$vii (func (param i32 i32)))
+ (type $FUNCSIG$ii (func (param i32) (result i32)))
  (type $FUNCSIG$v (func))
  (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
  (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
@@ -17,15 +18,30 @@
  (global $~lib/collector/itcm/fromSpace (mut i32) (i32.const 0))
  (global $~lib/collector/itcm/toSpace (mut i32) (i32.const 0))
  (global $~lib/collector/itcm/iter (mut i32) (i32.const 0))
- (global $std/gc-array/arr (mut i32) (i32.const 48))
+ (global $std/gc-array/arr (mut i32) (i32.const 120))
+ (global $~env (mut i32) (i32.const 0))
  (global $~argc (mut i32) (i32.const 0))
+ (global $std/gc-array/joined (mut i32) (i32.const 0))
  (global $~started (mut i32) (i32.const 0))
- (table 6 6 anyfunc)
- (elem (i32.const 0) $~lib/arraybuffer/ArrayBuffer~gc $~lib/array/Array<Foo>~gc $~lib/collector/itcm/__gc_mark $~lib/arraybuffer/ArrayBuffer~gc $~lib/arraybuffer/ArrayBuffer~gc $~lib/allocator/arena/__memory_free)
+ (global $RTTI_BASE i32 (i32.const 408))
+ (table 7 7 anyfunc)
+ (elem (i32.const 0) $~lib/arraybuffer/ArrayBuffer~gc $~lib/env~gc|4 $~lib/array/Array<Foo>~gc $~lib/collector/itcm/__gc_mark $~lib/arraybuffer/ArrayBuffer~gc $~lib/arraybuffer/ArrayBuffer~gc $~lib/allocator/arena/__memory_free)
  (memory $0 1)
- (data (i32.const 40) "\01\00\00\00\00\00\00\00\18")
- (data (i32.const 64) "\04\00\00\00\00\00\00\00\0d\00\00\00~\00l\00i\00b\00/\00a\00r\00r\00a\00y\00.\00t\00s")
- (data (i32.const 112) "\04\00\00\00\00\00\00\00\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s")
+ (data (i32.const 16) "0")
+ (data (i32.const 40) "0\00\00\00\00\00\00\00\01")
+ (data (i32.const 64) "\18")
+ (data (i32.const 88) "0\00\00\00\00\00\00\00\02")
+ (data (i32.const 112) "`\00\00\00\07\00\00\00H")
+ (data (i32.const 136) "0\00\00\00\00\00\00\00\03")
+ (data (i32.const 160) "0\00\00\00\00\00\00\00\04")
+ (data (i32.const 184) "0\00\00\00\00\00\00\00\05")
+ (data (i32.const 208) "\c0\00\00\00\02\00\00\00\0d\00\00\00~\00l\00i\00b\00/\00a\00r\00r\00a\00y\00.\00t\00s")
+ (data (i32.const 256) "\c0\00\00\00\02\00\00\00\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s")
+ (data (i32.const 336) "0\00\00\00\00\00\00\00\06")
+ (data (i32.const 360) "\c0\00\00\00\02\00\00\00\0f\00\00\00s\00t\00d\00/\00g\00c\00-\00a\00r\00r\00a\00y\00.\00t\00s")
+ (data (i32.const 408) "\07\00\00\00\01\00\00\00\00\00\00\00\06\00\00\00\02\00\00\00\00\00\00\00\06\00\00\00\03\00\00\00\00\00\00\00\06\00\00\00\04")
+ (data (i32.const 460) "\05\00\00\00\04\00\00\00\00\00\00\00\06\00\00\00\00\00\00\00\06\00\00\00\07\00\00\00\00\00\00\00\06")
+ (export "RTTI_BASE" (global $RTTI_BASE))
  (export "memory" (memory $0))
  (export "table" (table $0))
  (export "main" (func $std/gc-array/main))
@@ -40,7 +56,23 @@
    (get_local $0)
   )
  )
- (func $~lib/collector/itcm/ManagedObject#get:color (; 2 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/env~gc|4 (; 2 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return)
+  )
+  (call $~lib/collector/itcm/__gc_mark
+   (get_local $0)
+  )
+  (call $~lib/collector/itcm/__gc_mark
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/collector/itcm/ManagedObject#get:color (; 3 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (i32.and
    (i32.load
     (get_local $0)
@@ -48,7 +80,7 @@
    (i32.const 3)
   )
  )
- (func $~lib/collector/itcm/ManagedObject#get:next (; 3 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/collector/itcm/ManagedObject#get:next (; 4 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (i32.and
    (i32.load
     (get_local $0)
@@ -56,7 +88,7 @@
    (i32.const -4)
   )
  )
- (func $~lib/collector/itcm/ManagedObject#set:next (; 4 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/collector/itcm/ManagedObject#set:next (; 5 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
   (i32.store
    (get_local $0)
    (i32.or
@@ -70,7 +102,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/ManagedObject#unlink (; 5 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+ (func $~lib/collector/itcm/ManagedObject#unlink (; 6 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
   (local $1 i32)
   (i32.store offset=4
    (tee_local $1
@@ -89,7 +121,7 @@
    (get_local $1)
   )
  )
- (func $~lib/collector/itcm/ManagedObjectList#push (; 6 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/collector/itcm/ManagedObjectList#push (; 7 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
   (local $2 i32)
   (set_local $2
    (i32.load offset=4
@@ -113,7 +145,7 @@
    (get_local $1)
   )
  )
- (func $~lib/collector/itcm/ManagedObject#makeGray (; 7 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+ (func $~lib/collector/itcm/ManagedObject#makeGray (; 8 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
   (if
    (i32.eq
     (get_local $0)
@@ -145,7 +177,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/__gc_mark (; 8 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+ (func $~lib/collector/itcm/__gc_mark (; 9 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
   (local $1 i32)
   (if
    (get_local $0)
@@ -167,7 +199,7 @@
    )
   )
  )
- (func $~lib/array/Array<Foo>~gc (; 9 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+ (func $~lib/array/Array<Foo>~gc (; 10 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
   (local $1 i32)
   (local $2 i32)
   (call $~lib/collector/itcm/__gc_mark
@@ -211,7 +243,7 @@
    )
   )
  )
- (func $~lib/allocator/arena/__memory_allocate (; 10 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/allocator/arena/__memory_allocate (; 11 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
   (local $2 i32)
   (local $3 i32)
@@ -296,7 +328,7 @@
   )
   (get_local $1)
  )
- (func $~lib/collector/itcm/ManagedObjectList#clear (; 11 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+ (func $~lib/collector/itcm/ManagedObjectList#clear (; 12 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
   (i32.store
    (get_local $0)
    (get_local $0)
@@ -306,7 +338,7 @@
    (get_local $0)
   )
  )
- (func $~lib/collector/itcm/ManagedObject#set:color (; 12 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/collector/itcm/ManagedObject#set:color (; 13 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
   (i32.store
    (get_local $0)
    (i32.or
@@ -320,10 +352,10 @@
    )
   )
  )
- (func $~lib/allocator/arena/__memory_free (; 13 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+ (func $~lib/allocator/arena/__memory_free (; 14 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
   (nop)
  )
- (func $~lib/collector/itcm/step (; 14 ;) (; has Stack IR ;) (type $v)
+ (func $~lib/collector/itcm/step (; 15 ;) (; has Stack IR ;) (type $v)
   (local $0 i32)
   (block $break|0
    (block $case3|0
@@ -408,13 +440,18 @@
       (set_global $~argc
        (i32.const 1)
       )
+      (set_global $~env
+       (i32.load offset=8
+        (get_local $0)
+       )
+      )
       (call_indirect (type $iv)
        (i32.add
         (get_local $0)
         (i32.const 16)
        )
-       (i32.load offset=8
-        (get_local $0)
+       (i32.load
+        (get_global $~env)
        )
       )
      )
@@ -472,7 +509,7 @@
      (if
       (i32.ge_u
        (get_local $0)
-       (i32.const 180)
+       (i32.const 496)
       )
       (call $~lib/allocator/arena/__memory_free
        (get_local $0)
@@ -490,7 +527,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/__gc_collect (; 15 ;) (; has Stack IR ;) (type $v)
+ (func $~lib/collector/itcm/__gc_collect (; 16 ;) (; has Stack IR ;) (type $v)
   (local $0 i32)
   (block $break|0
    (block $case1|0
@@ -524,10 +561,10 @@
    )
   )
  )
- (func $~lib/gc/gc.collect (; 16 ;) (; has Stack IR ;) (type $v)
+ (func $~lib/gc/gc.collect (; 17 ;) (; has Stack IR ;) (type $v)
   (call $~lib/collector/itcm/__gc_collect)
  )
- (func $~lib/collector/itcm/__gc_allocate (; 17 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/collector/itcm/__gc_allocate (; 18 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (if
    (i32.gt_u
     (get_local $0)
@@ -547,6 +584,10 @@
    )
    (get_local $1)
   )
+  (i32.store offset=12
+   (get_local $0)
+   (i32.const 0)
+  )
   (call $~lib/collector/itcm/ManagedObject#set:color
    (get_local $0)
    (get_global $~lib/collector/itcm/white)
@@ -560,7 +601,7 @@
    (i32.const 16)
   )
  )
- (func $~lib/internal/arraybuffer/computeSize (; 18 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/internal/arraybuffer/computeSize (; 19 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (i32.shl
    (i32.const 1)
    (i32.sub
@@ -574,7 +615,7 @@
    )
   )
  )
- (func $~lib/internal/memory/memset (; 19 ;) (; has Stack IR ;) (type $FUNCSIG$vii) (param $0 i32) (param $1 i32)
+ (func $~lib/internal/memory/memset (; 20 ;) (; has Stack IR ;) (type $FUNCSIG$vii) (param $0 i32) (param $1 i32)
   (local $2 i32)
   (if
    (i32.eqz
@@ -879,7 +920,7 @@
    )
   )
  )
- (func $~lib/internal/arraybuffer/allocateUnsafe (; 20 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/internal/arraybuffer/allocateUnsafe (; 21 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
   (if
    (i32.gt_u
@@ -889,7 +930,7 @@
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 120)
+     (i32.const 264)
      (i32.const 23)
      (i32.const 2)
     )
@@ -902,14 +943,14 @@
      (call $~lib/internal/arraybuffer/computeSize
       (get_local $0)
      )
-     (i32.const 5)
+     (i32.const 344)
     )
    )
    (get_local $0)
   )
   (get_local $1)
  )
- (func $~lib/internal/memory/memcpy (; 21 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+ (func $~lib/internal/memory/memcpy (; 22 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
@@ -2295,7 +2336,7 @@
    )
   )
  )
- (func $~lib/internal/memory/memmove (; 22 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+ (func $~lib/internal/memory/memmove (; 23 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
   (local $3 i32)
   (local $4 i32)
   (if
@@ -2587,7 +2628,7 @@
    )
   )
  )
- (func $~lib/internal/arraybuffer/reallocateUnsafe (; 23 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/internal/arraybuffer/reallocateUnsafe (; 24 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (local $3 i32)
   (if
@@ -2608,7 +2649,7 @@
      (block
       (call $~lib/env/abort
        (i32.const 0)
-       (i32.const 120)
+       (i32.const 264)
        (i32.const 37)
        (i32.const 4)
       )
@@ -2693,7 +2734,7 @@
       (block
        (call $~lib/env/abort
         (i32.const 0)
-        (i32.const 120)
+        (i32.const 264)
         (i32.const 61)
         (i32.const 4)
        )
@@ -2709,7 +2750,7 @@
   )
   (get_local $0)
  )
- (func $~lib/collector/itcm/__gc_link (; 24 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/collector/itcm/__gc_link (; 25 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
   (local $2 i32)
   (if
    (tee_local $0
@@ -2746,7 +2787,7 @@
    )
   )
  )
- (func $~lib/array/Array<Foo>#__set (; 25 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+ (func $~lib/array/Array<Foo>#__set (; 26 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
   (local $3 i32)
   (local $4 i32)
   (if
@@ -2772,8 +2813,8 @@
      (block
       (call $~lib/env/abort
        (i32.const 0)
-       (i32.const 72)
-       (i32.const 87)
+       (i32.const 216)
+       (i32.const 134)
        (i32.const 41)
       )
       (unreachable)
@@ -2817,7 +2858,219 @@
    (get_local $2)
   )
  )
- (func $std/gc-array/main (; 26 ;) (; has Stack IR ;) (type $i) (result i32)
+ (func $~lib/array/Array<Foo>#constructor (; 27 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 268435454)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 216)
+     (i32.const 23)
+     (i32.const 39)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $2
+   (call $~lib/internal/arraybuffer/allocateUnsafe
+    (tee_local $3
+     (i32.shl
+      (get_local $0)
+      (i32.const 2)
+     )
+    )
+   )
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (call $~lib/collector/itcm/__gc_allocate
+      (i32.const 8)
+      (i32.const 96)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 7)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $2)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (get_local $0)
+  )
+  (call $~lib/internal/memory/memset
+   (i32.add
+    (get_local $2)
+    (i32.const 8)
+   )
+   (get_local $3)
+  )
+  (get_local $1)
+ )
+ (func $~lib/array/linkElements<Foo> (; 28 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (block $break|0
+   (set_local $3
+    (i32.load offset=4
+     (get_local $0)
+    )
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $1)
+      (get_local $3)
+     )
+    )
+    (call $~lib/collector/itcm/__gc_link
+     (get_local $0)
+     (i32.load offset=8
+      (i32.add
+       (get_local $2)
+       (i32.shl
+        (get_local $1)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (set_local $1
+     (i32.add
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $~lib/array/Array<Foo>#concat (; 29 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $2
+   (call $~lib/array/Array<Foo>#constructor
+    (i32.add
+     (tee_local $3
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (tee_local $4
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (get_local $3)
+   (call $~lib/internal/memory/memmove
+    (i32.add
+     (i32.load
+      (get_local $2)
+     )
+     (i32.const 8)
+    )
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (i32.const 8)
+    )
+    (i32.shl
+     (get_local $3)
+     (i32.const 2)
+    )
+   )
+  )
+  (if
+   (get_local $4)
+   (call $~lib/internal/memory/memmove
+    (i32.add
+     (i32.add
+      (i32.load
+       (get_local $2)
+      )
+      (i32.const 8)
+     )
+     (i32.shl
+      (get_local $3)
+      (i32.const 2)
+     )
+    )
+    (i32.add
+     (i32.load
+      (get_local $1)
+     )
+     (i32.const 8)
+    )
+    (i32.shl
+     (get_local $4)
+     (i32.const 2)
+    )
+   )
+  )
+  (call $~lib/array/linkElements<Foo>
+   (get_local $2)
+  )
+  (get_local $2)
+ )
+ (func $~lib/array/Array<Foo>#__get (; 30 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (tee_local $0
+   (if (result i32)
+    (i32.lt_u
+     (get_local $1)
+     (i32.shr_u
+      (i32.load
+       (tee_local $0
+        (i32.load
+         (get_local $0)
+        )
+       )
+      )
+      (i32.const 2)
+     )
+    )
+    (i32.load offset=8
+     (i32.add
+      (get_local $0)
+      (i32.shl
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+    )
+    (unreachable)
+   )
+  )
+ )
+ (func $std/gc-array/main (; 31 ;) (; has Stack IR ;) (type $i) (result i32)
   (if
    (i32.eqz
     (get_global $~started)
@@ -2831,49 +3084,202 @@
   )
   (i32.const 0)
  )
- (func $start (; 27 ;) (; has Stack IR ;) (type $v)
+ (func $start (; 32 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
   (set_global $~lib/allocator/arena/startOffset
-   (i32.const 184)
+   (i32.const 496)
   )
   (set_global $~lib/allocator/arena/offset
    (get_global $~lib/allocator/arena/startOffset)
   )
-  (set_global $~lib/collector/itcm/state
+  (call $~lib/gc/gc.collect)
+  (set_local $1
+   (get_global $std/gc-array/arr)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (call $~lib/collector/itcm/__gc_allocate
+      (i32.const 0)
+      (i32.const 168)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 6)
+  )
+  (call $~lib/array/Array<Foo>#__set
+   (get_local $1)
    (i32.const 0)
+   (get_local $0)
   )
   (call $~lib/gc/gc.collect)
-  (call $~lib/array/Array<Foo>#__set
+  (set_local $1
    (get_global $std/gc-array/arr)
-   (i32.const 0)
-   (call $~lib/collector/itcm/__gc_allocate
-    (i32.const 0)
-    (i32.const 3)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (call $~lib/collector/itcm/__gc_allocate
+      (i32.const 0)
+      (i32.const 168)
+     )
+    )
+    (i32.const 4)
    )
+   (i32.const 6)
   )
-  (call $~lib/gc/gc.collect)
   (call $~lib/array/Array<Foo>#__set
-   (get_global $std/gc-array/arr)
+   (get_local $1)
    (i32.const 1)
-   (call $~lib/collector/itcm/__gc_allocate
-    (i32.const 0)
-    (i32.const 3)
-   )
+   (get_local $0)
   )
   (call $~lib/gc/gc.collect)
-  (call $~lib/array/Array<Foo>#__set
+  (set_local $1
    (get_global $std/gc-array/arr)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (call $~lib/collector/itcm/__gc_allocate
+      (i32.const 0)
+      (i32.const 168)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 6)
+  )
+  (call $~lib/array/Array<Foo>#__set
+   (get_local $1)
    (i32.const 0)
-   (call $~lib/collector/itcm/__gc_allocate
-    (i32.const 0)
-    (i32.const 3)
+   (get_local $0)
+  )
+  (call $~lib/gc/gc.collect)
+  (set_global $std/gc-array/joined
+   (call $~lib/array/Array<Foo>#concat
+    (get_global $std/gc-array/arr)
+    (get_global $std/gc-array/arr)
    )
   )
   (call $~lib/gc/gc.collect)
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_global $std/gc-array/joined)
+    )
+    (i32.const 4)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 368)
+     (i32.const 27)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (tee_local $0
+    (i32.eq
+     (call $~lib/array/Array<Foo>#__get
+      (get_global $std/gc-array/joined)
+      (i32.const 0)
+     )
+     (call $~lib/array/Array<Foo>#__get
+      (get_global $std/gc-array/arr)
+      (i32.const 0)
+     )
+    )
+   )
+   (set_local $0
+    (i32.eq
+     (call $~lib/array/Array<Foo>#__get
+      (get_global $std/gc-array/joined)
+      (i32.const 2)
+     )
+     (call $~lib/array/Array<Foo>#__get
+      (get_global $std/gc-array/arr)
+      (i32.const 0)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 368)
+     (i32.const 28)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (tee_local $0
+    (i32.eq
+     (call $~lib/array/Array<Foo>#__get
+      (get_global $std/gc-array/joined)
+      (i32.const 1)
+     )
+     (call $~lib/array/Array<Foo>#__get
+      (get_global $std/gc-array/arr)
+      (i32.const 1)
+     )
+    )
+   )
+   (set_local $0
+    (i32.eq
+     (call $~lib/array/Array<Foo>#__get
+      (get_global $std/gc-array/joined)
+      (i32.const 3)
+     )
+     (call $~lib/array/Array<Foo>#__get
+      (get_global $std/gc-array/arr)
+      (i32.const 1)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 368)
+     (i32.const 29)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
  )
- (func $~iterateRoots (; 28 ;) (; has Stack IR ;) (type $FUNCSIG$v)
+ (func $~iterateRoots (; 33 ;) (; has Stack IR ;) (type $FUNCSIG$v)
+  (set_global $~env
+   (i32.const 144)
+  )
   (call_indirect (type $iv)
    (get_global $std/gc-array/arr)
-   (i32.const 2)
+   (i32.load
+    (get_global $~env)
+   )
+  )
+  (set_global $~env
+   (i32.const 144)
+  )
+  (call_indirect (type $iv)
+   (get_global $std/gc-array/joined)
+   (i32.load
+    (get_global $~env)
+   )
   )
  )
 )
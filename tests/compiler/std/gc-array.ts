@@ -20,4 +20,12 @@ arr[0] = {};
 
 gc.collect(); // should collect the old one
 
+var joined = arr.concat(arr);
+
+gc.collect(); // should keep the concatenated elements
+
+assert(joined.length == 4);
+assert(joined[0] === arr[0] && joined[2] === arr[0]);
+assert(joined[1] === arr[1] && joined[3] === arr[1]);
+
 export function main(): i32 { return 0; }
@@ -26,18 +26,31 @@
  (global $~lib/collector/itcm/toSpace (mut i32) (i32.const 0))
  (global $~lib/collector/itcm/iter (mut i32) (i32.const 0))
  (global $~lib/internal/arraybuffer/HEADER_SIZE i32 (i32.const 8))
- (global $std/gc-array/arr (mut i32) (i32.const 48))
+ (global $std/gc-array/arr (mut i32) (i32.const 120))
+ (global $~env (mut i32) (i32.const 0))
  (global $~argc (mut i32) (i32.const 0))
  (global $~lib/internal/arraybuffer/MAX_BLENGTH i32 (i32.const 1073741816))
+ (global $std/gc-array/joined (mut i32) (i32.const 0))
  (global $~started (mut i32) (i32.const 0))
- (global $HEAP_BASE i32 (i32.const 180))
- (table 6 6 anyfunc)
- (elem (i32.const 0) $~lib/arraybuffer/ArrayBuffer~gc $~lib/array/Array<Foo>~gc $~lib/collector/itcm/__gc_mark $std/gc-array/Foo~gc $~lib/string/String~gc $~lib/internal/arraybuffer/__gc)
+ (global $RTTI_BASE i32 (i32.const 408))
+ (global $HEAP_BASE i32 (i32.const 496))
+ (table 7 7 anyfunc)
+ (elem (i32.const 0) $~lib/arraybuffer/ArrayBuffer~gc $~lib/env~gc|4 $~lib/array/Array<Foo>~gc $~lib/collector/itcm/__gc_mark $std/gc-array/Foo~gc $~lib/string/String~gc $~lib/internal/arraybuffer/__gc)
  (memory $0 1)
- (data (i32.const 8) "\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
- (data (i32.const 32) "\00\00\00\00\00\00\00\00\01\00\00\00\00\00\00\00\18\00\00\00\00\00\00\00")
- (data (i32.const 56) "\00\00\00\00\00\00\00\00\04\00\00\00\00\00\00\00\0d\00\00\00~\00l\00i\00b\00/\00a\00r\00r\00a\00y\00.\00t\00s\00")
- (data (i32.const 104) "\00\00\00\00\00\00\00\00\04\00\00\00\00\00\00\00\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s\00")
+ (data (i32.const 8) "\00\00\00\00\00\00\00\000\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 32) "\00\00\00\00\00\00\00\000\00\00\00\00\00\00\00\01\00\00\00\00\00\00\00")
+ (data (i32.const 56) "\00\00\00\00\00\00\00\00\18\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 80) "\00\00\00\00\00\00\00\000\00\00\00\00\00\00\00\02\00\00\00\00\00\00\00")
+ (data (i32.const 104) "\00\00\00\00\00\00\00\00`\00\00\00\07\00\00\00H\00\00\00\00\00\00\00")
+ (data (i32.const 128) "\00\00\00\00\00\00\00\000\00\00\00\00\00\00\00\03\00\00\00\00\00\00\00")
+ (data (i32.const 152) "\00\00\00\00\00\00\00\000\00\00\00\00\00\00\00\04\00\00\00\00\00\00\00")
+ (data (i32.const 176) "\00\00\00\00\00\00\00\000\00\00\00\00\00\00\00\05\00\00\00\00\00\00\00")
+ (data (i32.const 200) "\00\00\00\00\00\00\00\00\c0\00\00\00\02\00\00\00\0d\00\00\00~\00l\00i\00b\00/\00a\00r\00r\00a\00y\00.\00t\00s\00")
+ (data (i32.const 248) "\00\00\00\00\00\00\00\00\c0\00\00\00\02\00\00\00\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s\00")
+ (data (i32.const 328) "\00\00\00\00\00\00\00\000\00\00\00\00\00\00\00\06\00\00\00\00\00\00\00")
+ (data (i32.const 352) "\00\00\00\00\00\00\00\00\c0\00\00\00\02\00\00\00\0f\00\00\00s\00t\00d\00/\00g\00c\00-\00a\00r\00r\00a\00y\00.\00t\00s\00")
+ (data (i32.const 408) "\07\00\00\00\01\00\00\00\00\00\00\00\06\00\00\00\02\00\00\00\00\00\00\00\06\00\00\00\03\00\00\00\00\00\00\00\06\00\00\00\04\00\00\00\00\00\00\00\00\00\00\00\05\00\00\00\04\00\00\00\00\00\00\00\06\00\00\00\00\00\00\00\06\00\00\00\07\00\00\00\00\00\00\00\06\00\00\00")
+ (export "RTTI_BASE" (global $RTTI_BASE))
  (export "memory" (memory $0))
  (export "table" (table $0))
  (export "main" (func $std/gc-array/main))
@@ -52,7 +65,23 @@
    (get_local $0)
   )
  )
- (func $~lib/collector/itcm/ManagedObject#get:color (; 2 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/env~gc|4 (; 2 ;) (type $iv) (param $0 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return)
+  )
+  (call $~lib/collector/itcm/__gc_mark
+   (get_local $0)
+  )
+  (call $~lib/collector/itcm/__gc_mark
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/collector/itcm/ManagedObject#get:color (; 3 ;) (type $ii) (param $0 i32) (result i32)
   (i32.and
    (i32.load
     (get_local $0)
@@ -60,7 +89,7 @@
    (i32.const 3)
   )
  )
- (func $~lib/collector/itcm/ManagedObject#get:next (; 3 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/collector/itcm/ManagedObject#get:next (; 4 ;) (type $ii) (param $0 i32) (result i32)
   (i32.and
    (i32.load
     (get_local $0)
@@ -71,7 +100,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/ManagedObject#set:next (; 4 ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/collector/itcm/ManagedObject#set:next (; 5 ;) (type $iiv) (param $0 i32) (param $1 i32)
   (i32.store
    (get_local $0)
    (i32.or
@@ -85,7 +114,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/ManagedObject#unlink (; 5 ;) (type $iv) (param $0 i32)
+ (func $~lib/collector/itcm/ManagedObject#unlink (; 6 ;) (type $iv) (param $0 i32)
   (local $1 i32)
   (local $2 i32)
   (set_local $1
@@ -107,7 +136,7 @@
    (get_local $1)
   )
  )
- (func $~lib/collector/itcm/ManagedObjectList#push (; 6 ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/collector/itcm/ManagedObjectList#push (; 7 ;) (type $iiv) (param $0 i32) (param $1 i32)
   (local $2 i32)
   (set_local $2
    (i32.load offset=4
@@ -131,7 +160,7 @@
    (get_local $1)
   )
  )
- (func $~lib/collector/itcm/ManagedObject#makeGray (; 7 ;) (type $iv) (param $0 i32)
+ (func $~lib/collector/itcm/ManagedObject#makeGray (; 8 ;) (type $iv) (param $0 i32)
   (if
    (i32.eq
     (get_local $0)
@@ -166,7 +195,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/__gc_mark (; 8 ;) (type $iv) (param $0 i32)
+ (func $~lib/collector/itcm/__gc_mark (; 9 ;) (type $iv) (param $0 i32)
   (local $1 i32)
   (if
    (get_local $0)
@@ -193,7 +222,7 @@
    )
   )
  )
- (func $~lib/array/Array<Foo>~gc (; 9 ;) (type $iv) (param $0 i32)
+ (func $~lib/array/Array<Foo>~gc (; 10 ;) (type $iv) (param $0 i32)
   (local $1 i32)
   (local $2 i32)
   (local $3 i32)
@@ -246,7 +275,7 @@
    )
   )
  )
- (func $~lib/allocator/arena/__memory_allocate (; 10 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/allocator/arena/__memory_allocate (; 11 ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
   (local $2 i32)
   (local $3 i32)
@@ -357,7 +386,7 @@
   )
   (get_local $1)
  )
- (func $~lib/collector/itcm/ManagedObjectList#clear (; 11 ;) (type $iv) (param $0 i32)
+ (func $~lib/collector/itcm/ManagedObjectList#clear (; 12 ;) (type $iv) (param $0 i32)
   (i32.store
    (get_local $0)
    (get_local $0)
@@ -367,7 +396,7 @@
    (get_local $0)
   )
  )
- (func $~lib/collector/itcm/ManagedObject#set:color (; 12 ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/collector/itcm/ManagedObject#set:color (; 13 ;) (type $iiv) (param $0 i32) (param $1 i32)
   (i32.store
    (get_local $0)
    (i32.or
@@ -384,10 +413,10 @@
    )
   )
  )
- (func $~lib/allocator/arena/__memory_free (; 13 ;) (type $iv) (param $0 i32)
+ (func $~lib/allocator/arena/__memory_free (; 14 ;) (type $iv) (param $0 i32)
   (nop)
  )
- (func $~lib/collector/itcm/step (; 14 ;) (type $v)
+ (func $~lib/collector/itcm/step (; 15 ;) (type $v)
   (local $0 i32)
   (local $1 i32)
   (block $break|0
@@ -401,25 +430,25 @@
        (br_if $case0|0
         (i32.eq
          (get_local $1)
-         (get_global $~lib/collector/itcm/State.INIT)
+         (i32.const 0)
         )
        )
        (br_if $case1|0
         (i32.eq
          (get_local $1)
-         (get_global $~lib/collector/itcm/State.IDLE)
+         (i32.const 1)
         )
        )
        (br_if $case2|0
         (i32.eq
          (get_local $1)
-         (get_global $~lib/collector/itcm/State.MARK)
+         (i32.const 2)
         )
        )
        (br_if $case3|0
         (i32.eq
          (get_local $1)
-         (get_global $~lib/collector/itcm/State.SWEEP)
+         (i32.const 3)
         )
        )
        (br $break|0)
@@ -467,16 +496,16 @@
         (get_global $~lib/collector/itcm/toSpace)
        )
        (set_global $~lib/collector/itcm/state
-        (get_global $~lib/collector/itcm/State.IDLE)
+        (i32.const 1)
        )
       )
      )
      (block
       (call $~iterateRoots
-       (i32.const 2)
+       (i32.const 144)
       )
       (set_global $~lib/collector/itcm/state
-       (get_global $~lib/collector/itcm/State.MARK)
+       (i32.const 2)
       )
       (br $break|0)
      )
@@ -512,14 +541,21 @@
           (get_global $~lib/collector/itcm/HEADER_SIZE)
          )
         )
-        (i32.load offset=8
-         (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (i32.load offset=8
+           (get_local $0)
+          )
+         )
+         (i32.load
+          (get_global $~env)
+         )
         )
        )
       )
       (block
        (call $~iterateRoots
-        (i32.const 2)
+        (i32.const 144)
        )
        (set_local $0
         (call $~lib/collector/itcm/ManagedObject#get:next
@@ -552,7 +588,7 @@
           )
          )
          (set_global $~lib/collector/itcm/state
-          (get_global $~lib/collector/itcm/State.SWEEP)
+          (i32.const 3)
          )
         )
        )
@@ -596,7 +632,7 @@
        (get_global $~lib/collector/itcm/toSpace)
       )
       (set_global $~lib/collector/itcm/state
-       (get_global $~lib/collector/itcm/State.IDLE)
+       (i32.const 1)
       )
      )
     )
@@ -604,7 +640,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/__gc_collect (; 15 ;) (type $v)
+ (func $~lib/collector/itcm/__gc_collect (; 16 ;) (type $v)
   (local $0 i32)
   (block $break|0
    (block $case1|0
@@ -615,13 +651,13 @@
      (br_if $case0|0
       (i32.eq
        (get_local $0)
-       (get_global $~lib/collector/itcm/State.INIT)
+       (i32.const 0)
       )
      )
      (br_if $case1|0
       (i32.eq
        (get_local $0)
-       (get_global $~lib/collector/itcm/State.IDLE)
+       (i32.const 1)
       )
      )
      (br $break|0)
@@ -634,7 +670,7 @@
     (if
      (i32.ne
       (get_global $~lib/collector/itcm/state)
-      (get_global $~lib/collector/itcm/State.IDLE)
+      (i32.const 1)
      )
      (block
       (call $~lib/collector/itcm/step)
@@ -644,11 +680,11 @@
    )
   )
  )
- (func $~lib/gc/gc.collect (; 16 ;) (type $v)
+ (func $~lib/gc/gc.collect (; 17 ;) (type $v)
   (call $~lib/collector/itcm/__gc_collect)
   (return)
  )
- (func $~lib/collector/itcm/__gc_allocate (; 17 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/collector/itcm/__gc_allocate (; 18 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (local $3 i32)
   (if
@@ -681,6 +717,10 @@
    (get_local $3)
    (get_local $1)
   )
+  (i32.store offset=12
+   (get_local $3)
+   (i32.const 0)
+  )
   (call $~lib/collector/itcm/ManagedObject#set:color
    (get_local $3)
    (get_global $~lib/collector/itcm/white)
@@ -696,7 +736,7 @@
    )
   )
  )
- (func $std/gc-array/Foo~gc (; 18 ;) (type $iv) (param $0 i32)
+ (func $std/gc-array/Foo~gc (; 19 ;) (type $iv) (param $0 i32)
   (if
    (i32.eqz
     (get_local $0)
@@ -707,7 +747,7 @@
    (get_local $0)
   )
  )
- (func $~lib/string/String~gc (; 19 ;) (type $iv) (param $0 i32)
+ (func $~lib/string/String~gc (; 20 ;) (type $iv) (param $0 i32)
   (if
    (i32.eqz
     (get_local $0)
@@ -718,7 +758,7 @@
    (get_local $0)
   )
  )
- (func $~lib/internal/arraybuffer/computeSize (; 20 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/internal/arraybuffer/computeSize (; 21 ;) (type $ii) (param $0 i32) (result i32)
   (i32.shl
    (i32.const 1)
    (i32.sub
@@ -735,7 +775,7 @@
    )
   )
  )
- (func $~lib/internal/memory/memset (; 21 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+ (func $~lib/internal/memory/memset (; 22 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i64)
@@ -1087,10 +1127,10 @@
    )
   )
  )
- (func $~lib/internal/arraybuffer/__gc (; 22 ;) (type $iv) (param $0 i32)
+ (func $~lib/internal/arraybuffer/__gc (; 23 ;) (type $iv) (param $0 i32)
   (nop)
  )
- (func $~lib/internal/arraybuffer/allocateUnsafe (; 23 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/internal/arraybuffer/allocateUnsafe (; 24 ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
   (if
    (i32.eqz
@@ -1102,7 +1142,7 @@
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 120)
+     (i32.const 264)
      (i32.const 23)
      (i32.const 2)
     )
@@ -1114,7 +1154,7 @@
     (call $~lib/internal/arraybuffer/computeSize
      (get_local $0)
     )
-    (i32.const 5)
+    (i32.const 344)
    )
   )
   (i32.store
@@ -1123,7 +1163,7 @@
   )
   (get_local $1)
  )
- (func $~lib/internal/memory/memcpy (; 24 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+ (func $~lib/internal/memory/memcpy (; 25 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
@@ -2925,7 +2965,7 @@
    )
   )
  )
- (func $~lib/internal/memory/memmove (; 25 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+ (func $~lib/internal/memory/memmove (; 26 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
   (local $3 i32)
   (if
    (i32.eq
@@ -3243,7 +3283,7 @@
    )
   )
  )
- (func $~lib/internal/arraybuffer/reallocateUnsafe (; 26 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/internal/arraybuffer/reallocateUnsafe (; 27 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
@@ -3270,7 +3310,7 @@
      (block
       (call $~lib/env/abort
        (i32.const 0)
-       (i32.const 120)
+       (i32.const 264)
        (i32.const 37)
        (i32.const 4)
       )
@@ -3390,7 +3430,7 @@
       (block
        (call $~lib/env/abort
         (i32.const 0)
-        (i32.const 120)
+        (i32.const 264)
         (i32.const 61)
         (i32.const 4)
        )
@@ -3406,7 +3446,7 @@
   )
   (get_local $0)
  )
- (func $~lib/collector/itcm/__gc_link (; 27 ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/collector/itcm/__gc_link (; 28 ;) (type $iiv) (param $0 i32) (param $1 i32)
   (local $2 i32)
   (local $3 i32)
   (set_local $2
@@ -3447,7 +3487,7 @@
    )
   )
  )
- (func $~lib/array/Array<Foo>#__set (; 28 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+ (func $~lib/array/Array<Foo>#__set (; 29 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
   (local $3 i32)
   (local $4 i32)
   (set_local $3
@@ -3477,8 +3517,8 @@
      (block
       (call $~lib/env/abort
        (i32.const 0)
-       (i32.const 72)
-       (i32.const 87)
+       (i32.const 216)
+       (i32.const 134)
        (i32.const 41)
       )
       (unreachable)
@@ -3526,7 +3566,284 @@
    (get_local $2)
   )
  )
- (func $std/gc-array/main (; 29 ;) (type $i) (result i32)
+ (func $~lib/array/Array<Foo>#constructor (; 30 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (i32.gt_u
+    (get_local $1)
+    (i32.const 268435454)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 216)
+     (i32.const 23)
+     (i32.const 39)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $2
+   (i32.shl
+    (get_local $1)
+    (i32.const 2)
+   )
+  )
+  (set_local $3
+   (call $~lib/internal/arraybuffer/allocateUnsafe
+    (get_local $2)
+   )
+  )
+  (i32.store
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $4
+        (block (result i32)
+         (i32.store
+          (i32.sub
+           (tee_local $5
+            (call $~lib/collector/itcm/__gc_allocate
+             (i32.const 8)
+             (i32.const 96)
+            )
+           )
+           (i32.const 4)
+          )
+          (i32.const 7)
+         )
+         (get_local $5)
+        )
+       )
+       (i32.store
+        (get_local $4)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $4)
+        (i32.const 0)
+       )
+       (get_local $4)
+      )
+     )
+    )
+   )
+   (get_local $3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (block $~lib/memory/memory.fill|inlined.2
+   (set_local $4
+    (i32.add
+     (get_local $3)
+     (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+    )
+   )
+   (set_local $5
+    (i32.const 0)
+   )
+   (call $~lib/internal/memory/memset
+    (get_local $4)
+    (get_local $5)
+    (get_local $2)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/array/linkElements<Foo> (; 31 ;) (type $iv) (param $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (block $break|0
+   (block
+    (set_local $2
+     (i32.const 0)
+    )
+    (set_local $3
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $2)
+       (get_local $3)
+      )
+     )
+    )
+    (call $~lib/collector/itcm/__gc_link
+     (get_local $0)
+     (block $~lib/internal/arraybuffer/loadUnsafe<Foo,Foo>|inlined.0 (result i32)
+      (i32.load offset=8
+       (i32.add
+        (get_local $1)
+        (i32.shl
+         (get_local $2)
+         (i32.const 2)
+        )
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $~lib/array/Array<Foo>#concat (; 32 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=4
+    (get_local $1)
+   )
+  )
+  (set_local $4
+   (call $~lib/array/Array<Foo>#constructor
+    (i32.const 0)
+    (i32.add
+     (get_local $2)
+     (get_local $3)
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (block $~lib/memory/memory.copy|inlined.1
+    (set_local $5
+     (i32.add
+      (i32.load
+       (get_local $4)
+      )
+      (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+     )
+    )
+    (set_local $6
+     (i32.add
+      (i32.load
+       (get_local $0)
+      )
+      (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+     )
+    )
+    (set_local $7
+     (i32.shl
+      (get_local $2)
+      (i32.const 2)
+     )
+    )
+    (call $~lib/internal/memory/memmove
+     (get_local $5)
+     (get_local $6)
+     (get_local $7)
+    )
+   )
+  )
+  (if
+   (get_local $3)
+   (block $~lib/memory/memory.copy|inlined.2
+    (set_local $7
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $4)
+       )
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+      (i32.shl
+       (get_local $2)
+       (i32.const 2)
+      )
+     )
+    )
+    (set_local $6
+     (i32.add
+      (i32.load
+       (get_local $1)
+      )
+      (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+     )
+    )
+    (set_local $5
+     (i32.shl
+      (get_local $3)
+      (i32.const 2)
+     )
+    )
+    (call $~lib/internal/memory/memmove
+     (get_local $7)
+     (get_local $6)
+     (get_local $5)
+    )
+   )
+  )
+  (call $~lib/array/linkElements<Foo>
+   (get_local $4)
+  )
+  (get_local $4)
+ )
+ (func $~lib/array/Array<Foo>#__get (; 33 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if (result i32)
+   (i32.lt_u
+    (get_local $1)
+    (i32.shr_u
+     (i32.load
+      (get_local $2)
+     )
+     (i32.const 2)
+    )
+   )
+   (block $~lib/internal/arraybuffer/loadUnsafe<Foo,Foo>|inlined.1 (result i32)
+    (i32.load offset=8
+     (i32.add
+      (get_local $2)
+      (i32.shl
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+    )
+   )
+   (unreachable)
+  )
+ )
+ (func $std/gc-array/main (; 34 ;) (type $i) (result i32)
   (if
    (i32.eqz
     (get_global $~started)
@@ -3540,10 +3857,11 @@
   )
   (i32.const 0)
  )
- (func $start (; 30 ;) (type $v)
+ (func $start (; 35 ;) (type $v)
   (local $0 i32)
   (local $1 i32)
   (local $2 i32)
+  (local $3 i32)
   (set_global $~lib/allocator/arena/startOffset
    (i32.and
     (i32.add
@@ -3559,18 +3877,26 @@
   (set_global $~lib/allocator/arena/offset
    (get_global $~lib/allocator/arena/startOffset)
   )
-  (set_global $~lib/collector/itcm/state
-   (get_global $~lib/collector/itcm/State.INIT)
-  )
   (call $~lib/gc/gc.collect)
   (call $~lib/array/Array<Foo>#__set
    (get_global $std/gc-array/arr)
    (i32.const 0)
    (block (result i32)
     (set_local $0
-     (call $~lib/collector/itcm/__gc_allocate
-      (i32.const 0)
-      (i32.const 3)
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $1
+         (call $~lib/collector/itcm/__gc_allocate
+          (i32.const 0)
+          (i32.const 168)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 6)
+      )
+      (get_local $1)
      )
     )
     (get_local $0)
@@ -3582,9 +3908,20 @@
    (i32.const 1)
    (block (result i32)
     (set_local $1
-     (call $~lib/collector/itcm/__gc_allocate
-      (i32.const 0)
-      (i32.const 3)
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (call $~lib/collector/itcm/__gc_allocate
+          (i32.const 0)
+          (i32.const 168)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 6)
+      )
+      (get_local $2)
      )
     )
     (get_local $1)
@@ -3596,20 +3933,156 @@
    (i32.const 0)
    (block (result i32)
     (set_local $2
-     (call $~lib/collector/itcm/__gc_allocate
-      (i32.const 0)
-      (i32.const 3)
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $3
+         (call $~lib/collector/itcm/__gc_allocate
+          (i32.const 0)
+          (i32.const 168)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 6)
+      )
+      (get_local $3)
      )
     )
     (get_local $2)
    )
   )
   (call $~lib/gc/gc.collect)
+  (set_global $std/gc-array/joined
+   (call $~lib/array/Array<Foo>#concat
+    (get_global $std/gc-array/arr)
+    (get_global $std/gc-array/arr)
+   )
+  )
+  (call $~lib/gc/gc.collect)
+  (if
+   (i32.eqz
+    (i32.eq
+     (block $~lib/array/Array<Foo>#get:length|inlined.0 (result i32)
+      (set_local $3
+       (get_global $std/gc-array/joined)
+      )
+      (i32.load offset=4
+       (get_local $3)
+      )
+     )
+     (i32.const 4)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 368)
+     (i32.const 27)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $3
+      (i32.eq
+       (call $~lib/array/Array<Foo>#__get
+        (get_global $std/gc-array/joined)
+        (i32.const 0)
+       )
+       (call $~lib/array/Array<Foo>#__get
+        (get_global $std/gc-array/arr)
+        (i32.const 0)
+       )
+      )
+     )
+     (i32.eq
+      (call $~lib/array/Array<Foo>#__get
+       (get_global $std/gc-array/joined)
+       (i32.const 2)
+      )
+      (call $~lib/array/Array<Foo>#__get
+       (get_global $std/gc-array/arr)
+       (i32.const 0)
+      )
+     )
+     (get_local $3)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 368)
+     (i32.const 28)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $3
+      (i32.eq
+       (call $~lib/array/Array<Foo>#__get
+        (get_global $std/gc-array/joined)
+        (i32.const 1)
+       )
+       (call $~lib/array/Array<Foo>#__get
+        (get_global $std/gc-array/arr)
+        (i32.const 1)
+       )
+      )
+     )
+     (i32.eq
+      (call $~lib/array/Array<Foo>#__get
+       (get_global $std/gc-array/joined)
+       (i32.const 3)
+      )
+      (call $~lib/array/Array<Foo>#__get
+       (get_global $std/gc-array/arr)
+       (i32.const 1)
+      )
+     )
+     (get_local $3)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 368)
+     (i32.const 29)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
  )
- (func $~iterateRoots (; 31 ;) (type $iv) (param $0 i32)
+ (func $~iterateRoots (; 36 ;) (type $iv) (param $0 i32)
   (call_indirect (type $iv)
    (get_global $std/gc-array/arr)
-   (get_local $0)
+   (block (result i32)
+    (set_global $~env
+     (get_local $0)
+    )
+    (i32.load
+     (get_global $~env)
+    )
+   )
+  )
+  (call_indirect (type $iv)
+   (get_global $std/gc-array/joined)
+   (block (result i32)
+    (set_global $~env
+     (get_local $0)
+    )
+    (i32.load
+     (get_global $~env)
+    )
+   )
   )
  )
 )
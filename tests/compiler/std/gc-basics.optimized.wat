@@ -15,21 +15,46 @@
  (global $~lib/collector/itcm/fromSpace (mut i32) (i32.const 0))
  (global $~lib/collector/itcm/toSpace (mut i32) (i32.const 0))
  (global $~lib/collector/itcm/iter (mut i32) (i32.const 0))
+ (global $~env (mut i32) (i32.const 0))
  (global $~argc (mut i32) (i32.const 0))
  (global $std/gc-basics/obj (mut i32) (i32.const 0))
  (global $std/gc-basics/obj2 (mut i32) (i32.const 0))
  (global $~started (mut i32) (i32.const 0))
- (table 3 3 anyfunc)
- (elem (i32.const 0) $std/gc-basics/MyObject_visit $~lib/collector/itcm/__gc_mark $~lib/string/String~gc)
+ (global $RTTI_BASE i32 (i32.const 160))
+ (table 4 4 anyfunc)
+ (elem (i32.const 0) $std/gc-basics/MyObject_visit $~lib/env~gc|4 $~lib/collector/itcm/__gc_mark $~lib/string/String~gc)
  (memory $0 1)
- (data (i32.const 16) "\02\00\00\00\00\00\00\00\10\00\00\00s\00t\00d\00/\00g\00c\00-\00b\00a\00s\00i\00c\00s\00.\00t\00s")
+ (data (i32.const 16) "0")
+ (data (i32.const 40) "0\00\00\00\00\00\00\00\01")
+ (data (i32.const 64) "0\00\00\00\00\00\00\00\02")
+ (data (i32.const 88) "0\00\00\00\00\00\00\00\03")
+ (data (i32.const 112) "`\00\00\00\02\00\00\00\10\00\00\00s\00t\00d\00/\00g\00c\00-\00b\00a\00s\00i\00c\00s\00.\00t\00s")
+ (data (i32.const 160) "\06\00\00\00\01\00\00\00\00\00\00\00\06\00\00\00\02\00\00\00\00\00\00\00\06\00\00\00\03\00\00\00\00\00\00\00\06\00\00\00\04")
+ (data (i32.const 212) "\05\00\00\00\04\00\00\00\00\00\00\00\06\00\00\00\00\00\00\00\06")
+ (export "RTTI_BASE" (global $RTTI_BASE))
  (export "memory" (memory $0))
  (export "table" (table $0))
  (export "main" (func $std/gc-basics/main))
  (func $std/gc-basics/MyObject_visit (; 1 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
   (nop)
  )
- (func $~lib/allocator/arena/__memory_allocate (; 2 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/env~gc|4 (; 2 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return)
+  )
+  (call $~lib/collector/itcm/__gc_mark
+   (get_local $0)
+  )
+  (call $~lib/collector/itcm/__gc_mark
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/allocator/arena/__memory_allocate (; 3 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
   (local $2 i32)
   (local $3 i32)
@@ -114,7 +139,7 @@
   )
   (get_local $1)
  )
- (func $~lib/collector/itcm/ManagedObjectList#clear (; 3 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+ (func $~lib/collector/itcm/ManagedObjectList#clear (; 4 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
   (i32.store
    (get_local $0)
    (get_local $0)
@@ -124,7 +149,7 @@
    (get_local $0)
   )
  )
- (func $~lib/collector/itcm/ManagedObject#get:color (; 4 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/collector/itcm/ManagedObject#get:color (; 5 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (i32.and
    (i32.load
     (get_local $0)
@@ -132,7 +157,7 @@
    (i32.const 3)
   )
  )
- (func $~lib/collector/itcm/ManagedObject#get:next (; 5 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/collector/itcm/ManagedObject#get:next (; 6 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (i32.and
    (i32.load
     (get_local $0)
@@ -140,7 +165,7 @@
    (i32.const -4)
   )
  )
- (func $~lib/collector/itcm/ManagedObject#set:next (; 6 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/collector/itcm/ManagedObject#set:next (; 7 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
   (i32.store
    (get_local $0)
    (i32.or
@@ -154,7 +179,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/ManagedObject#unlink (; 7 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+ (func $~lib/collector/itcm/ManagedObject#unlink (; 8 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
   (local $1 i32)
   (i32.store offset=4
    (tee_local $1
@@ -173,7 +198,7 @@
    (get_local $1)
   )
  )
- (func $~lib/collector/itcm/ManagedObjectList#push (; 8 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/collector/itcm/ManagedObjectList#push (; 9 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
   (local $2 i32)
   (set_local $2
    (i32.load offset=4
@@ -197,7 +222,7 @@
    (get_local $1)
   )
  )
- (func $~lib/collector/itcm/ManagedObject#makeGray (; 9 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+ (func $~lib/collector/itcm/ManagedObject#makeGray (; 10 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
   (if
    (i32.eq
     (get_local $0)
@@ -229,7 +254,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/__gc_mark (; 10 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+ (func $~lib/collector/itcm/__gc_mark (; 11 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
   (local $1 i32)
   (if
    (get_local $0)
@@ -251,7 +276,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/ManagedObject#set:color (; 11 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/collector/itcm/ManagedObject#set:color (; 12 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
   (i32.store
    (get_local $0)
    (i32.or
@@ -265,7 +290,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/step (; 12 ;) (; has Stack IR ;) (type $v)
+ (func $~lib/collector/itcm/step (; 13 ;) (; has Stack IR ;) (type $v)
   (local $0 i32)
   (block $break|0
    (block $case3|0
@@ -350,13 +375,18 @@
       (set_global $~argc
        (i32.const 1)
       )
+      (set_global $~env
+       (i32.load offset=8
+        (get_local $0)
+       )
+      )
       (call_indirect (type $iv)
        (i32.add
         (get_local $0)
         (i32.const 16)
        )
-       (i32.load offset=8
-        (get_local $0)
+       (i32.load
+        (get_global $~env)
        )
       )
      )
@@ -414,7 +444,7 @@
      (if
       (i32.ge_u
        (get_local $0)
-       (i32.const 60)
+       (i32.const 236)
       )
       (call $std/gc-basics/MyObject_visit
        (get_local $0)
@@ -432,7 +462,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/__gc_allocate (; 13 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+ (func $~lib/collector/itcm/__gc_allocate (; 14 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
   (local $0 i32)
   (call $~lib/collector/itcm/step)
   (i32.store offset=8
@@ -441,6 +471,10 @@
      (i32.const 20)
     )
    )
+   (i32.const 24)
+  )
+  (i32.store offset=12
+   (get_local $0)
    (i32.const 0)
   )
   (call $~lib/collector/itcm/ManagedObject#set:color
@@ -456,7 +490,7 @@
    (i32.const 16)
   )
  )
- (func $~lib/string/String~gc (; 14 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+ (func $~lib/string/String~gc (; 15 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
   (if
    (i32.eqz
     (get_local $0)
@@ -467,7 +501,7 @@
    (get_local $0)
   )
  )
- (func $~lib/collector/itcm/__gc_collect (; 15 ;) (; has Stack IR ;) (type $v)
+ (func $~lib/collector/itcm/__gc_collect (; 16 ;) (; has Stack IR ;) (type $v)
   (local $0 i32)
   (block $break|0
    (block $case1|0
@@ -501,10 +535,10 @@
    )
   )
  )
- (func $~lib/gc/gc.collect (; 16 ;) (; has Stack IR ;) (type $v)
+ (func $~lib/gc/gc.collect (; 17 ;) (; has Stack IR ;) (type $v)
   (call $~lib/collector/itcm/__gc_collect)
  )
- (func $std/gc-basics/main (; 17 ;) (; has Stack IR ;) (type $i) (result i32)
+ (func $std/gc-basics/main (; 18 ;) (; has Stack IR ;) (type $i) (result i32)
   (if
    (i32.eqz
     (get_global $~started)
@@ -518,20 +552,17 @@
   )
   (i32.const 0)
  )
- (func $start (; 18 ;) (; has Stack IR ;) (type $v)
+ (func $start (; 19 ;) (; has Stack IR ;) (type $v)
   (local $0 i32)
   (local $1 i32)
   (local $2 i32)
   (local $3 i32)
   (set_global $~lib/allocator/arena/startOffset
-   (i32.const 64)
+   (i32.const 240)
   )
   (set_global $~lib/allocator/arena/offset
    (get_global $~lib/allocator/arena/startOffset)
   )
-  (set_global $~lib/collector/itcm/state
-   (i32.const 0)
-  )
   (set_global $std/gc-basics/obj
    (call $~lib/collector/itcm/__gc_allocate)
   )
@@ -586,7 +617,7 @@
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 24)
+     (i32.const 120)
      (i32.const 19)
      (i32.const 2)
     )
@@ -594,13 +625,16 @@
    )
   )
   (if
-   (i32.load offset=8
-    (get_local $0)
+   (i32.ne
+    (i32.load offset=8
+     (get_local $0)
+    )
+    (i32.const 24)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 24)
+     (i32.const 120)
      (i32.const 21)
      (i32.const 2)
     )
@@ -614,7 +648,7 @@
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 24)
+     (i32.const 120)
      (i32.const 23)
      (i32.const 2)
     )
@@ -631,7 +665,7 @@
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 24)
+     (i32.const 120)
      (i32.const 25)
      (i32.const 2)
     )
@@ -644,14 +678,24 @@
   )
   (call $~lib/gc/gc.collect)
  )
- (func $~iterateRoots (; 19 ;) (; has Stack IR ;) (type $FUNCSIG$v)
+ (func $~iterateRoots (; 20 ;) (; has Stack IR ;) (type $FUNCSIG$v)
+  (set_global $~env
+   (i32.const 72)
+  )
   (call_indirect (type $iv)
    (get_global $std/gc-basics/obj)
-   (i32.const 1)
+   (i32.load
+    (get_global $~env)
+   )
+  )
+  (set_global $~env
+   (i32.const 72)
   )
   (call_indirect (type $iv)
    (get_global $std/gc-basics/obj2)
-   (i32.const 1)
+   (i32.load
+    (get_global $~env)
+   )
   )
  )
 )
@@ -24,22 +24,46 @@
  (global $~lib/collector/itcm/fromSpace (mut i32) (i32.const 0))
  (global $~lib/collector/itcm/toSpace (mut i32) (i32.const 0))
  (global $~lib/collector/itcm/iter (mut i32) (i32.const 0))
+ (global $~env (mut i32) (i32.const 0))
  (global $~argc (mut i32) (i32.const 0))
  (global $std/gc-basics/obj (mut i32) (i32.const 0))
  (global $std/gc-basics/obj2 (mut i32) (i32.const 0))
  (global $~started (mut i32) (i32.const 0))
- (global $HEAP_BASE i32 (i32.const 60))
- (table 3 3 anyfunc)
- (elem (i32.const 0) $std/gc-basics/MyObject_visit $~lib/collector/itcm/__gc_mark $~lib/string/String~gc)
+ (global $RTTI_BASE i32 (i32.const 160))
+ (global $HEAP_BASE i32 (i32.const 236))
+ (table 4 4 anyfunc)
+ (elem (i32.const 0) $std/gc-basics/MyObject_visit $~lib/env~gc|4 $~lib/collector/itcm/__gc_mark $~lib/string/String~gc)
  (memory $0 1)
- (data (i32.const 8) "\00\00\00\00\00\00\00\00\02\00\00\00\00\00\00\00\10\00\00\00s\00t\00d\00/\00g\00c\00-\00b\00a\00s\00i\00c\00s\00.\00t\00s\00")
+ (data (i32.const 8) "\00\00\00\00\00\00\00\000\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 32) "\00\00\00\00\00\00\00\000\00\00\00\00\00\00\00\01\00\00\00\00\00\00\00")
+ (data (i32.const 56) "\00\00\00\00\00\00\00\000\00\00\00\00\00\00\00\02\00\00\00\00\00\00\00")
+ (data (i32.const 80) "\00\00\00\00\00\00\00\000\00\00\00\00\00\00\00\03\00\00\00\00\00\00\00")
+ (data (i32.const 104) "\00\00\00\00\00\00\00\00`\00\00\00\02\00\00\00\10\00\00\00s\00t\00d\00/\00g\00c\00-\00b\00a\00s\00i\00c\00s\00.\00t\00s\00")
+ (data (i32.const 160) "\06\00\00\00\01\00\00\00\00\00\00\00\06\00\00\00\02\00\00\00\00\00\00\00\06\00\00\00\03\00\00\00\00\00\00\00\06\00\00\00\04\00\00\00\00\00\00\00\00\00\00\00\05\00\00\00\04\00\00\00\00\00\00\00\06\00\00\00\00\00\00\00\06\00\00\00")
+ (export "RTTI_BASE" (global $RTTI_BASE))
  (export "memory" (memory $0))
  (export "table" (table $0))
  (export "main" (func $std/gc-basics/main))
  (func $std/gc-basics/MyObject_visit (; 1 ;) (type $iv) (param $0 i32)
   (nop)
  )
- (func $~lib/allocator/arena/__memory_allocate (; 2 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/env~gc|4 (; 2 ;) (type $iv) (param $0 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return)
+  )
+  (call $~lib/collector/itcm/__gc_mark
+   (get_local $0)
+  )
+  (call $~lib/collector/itcm/__gc_mark
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/allocator/arena/__memory_allocate (; 3 ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
   (local $2 i32)
   (local $3 i32)
@@ -150,7 +174,7 @@
   )
   (get_local $1)
  )
- (func $~lib/collector/itcm/ManagedObjectList#clear (; 3 ;) (type $iv) (param $0 i32)
+ (func $~lib/collector/itcm/ManagedObjectList#clear (; 4 ;) (type $iv) (param $0 i32)
   (i32.store
    (get_local $0)
    (get_local $0)
@@ -160,7 +184,7 @@
    (get_local $0)
   )
  )
- (func $~lib/collector/itcm/ManagedObject#get:color (; 4 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/collector/itcm/ManagedObject#get:color (; 5 ;) (type $ii) (param $0 i32) (result i32)
   (i32.and
    (i32.load
     (get_local $0)
@@ -168,7 +192,7 @@
    (i32.const 3)
   )
  )
- (func $~lib/collector/itcm/ManagedObject#get:next (; 5 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/collector/itcm/ManagedObject#get:next (; 6 ;) (type $ii) (param $0 i32) (result i32)
   (i32.and
    (i32.load
     (get_local $0)
@@ -179,7 +203,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/ManagedObject#set:next (; 6 ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/collector/itcm/ManagedObject#set:next (; 7 ;) (type $iiv) (param $0 i32) (param $1 i32)
   (i32.store
    (get_local $0)
    (i32.or
@@ -193,7 +217,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/ManagedObject#unlink (; 7 ;) (type $iv) (param $0 i32)
+ (func $~lib/collector/itcm/ManagedObject#unlink (; 8 ;) (type $iv) (param $0 i32)
   (local $1 i32)
   (local $2 i32)
   (set_local $1
@@ -215,7 +239,7 @@
    (get_local $1)
   )
  )
- (func $~lib/collector/itcm/ManagedObjectList#push (; 8 ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/collector/itcm/ManagedObjectList#push (; 9 ;) (type $iiv) (param $0 i32) (param $1 i32)
   (local $2 i32)
   (set_local $2
    (i32.load offset=4
@@ -239,7 +263,7 @@
    (get_local $1)
   )
  )
- (func $~lib/collector/itcm/ManagedObject#makeGray (; 9 ;) (type $iv) (param $0 i32)
+ (func $~lib/collector/itcm/ManagedObject#makeGray (; 10 ;) (type $iv) (param $0 i32)
   (if
    (i32.eq
     (get_local $0)
@@ -274,7 +298,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/__gc_mark (; 10 ;) (type $iv) (param $0 i32)
+ (func $~lib/collector/itcm/__gc_mark (; 11 ;) (type $iv) (param $0 i32)
   (local $1 i32)
   (if
    (get_local $0)
@@ -301,7 +325,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/ManagedObject#set:color (; 11 ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/collector/itcm/ManagedObject#set:color (; 12 ;) (type $iiv) (param $0 i32) (param $1 i32)
   (i32.store
    (get_local $0)
    (i32.or
@@ -318,10 +342,10 @@
    )
   )
  )
- (func $~lib/allocator/arena/__memory_free (; 12 ;) (type $iv) (param $0 i32)
+ (func $~lib/allocator/arena/__memory_free (; 13 ;) (type $iv) (param $0 i32)
   (nop)
  )
- (func $~lib/collector/itcm/step (; 13 ;) (type $v)
+ (func $~lib/collector/itcm/step (; 14 ;) (type $v)
   (local $0 i32)
   (local $1 i32)
   (block $break|0
@@ -335,25 +359,25 @@
        (br_if $case0|0
         (i32.eq
          (get_local $1)
-         (get_global $~lib/collector/itcm/State.INIT)
+         (i32.const 0)
         )
        )
        (br_if $case1|0
         (i32.eq
          (get_local $1)
-         (get_global $~lib/collector/itcm/State.IDLE)
+         (i32.const 1)
         )
        )
        (br_if $case2|0
         (i32.eq
          (get_local $1)
-         (get_global $~lib/collector/itcm/State.MARK)
+         (i32.const 2)
         )
        )
        (br_if $case3|0
         (i32.eq
          (get_local $1)
-         (get_global $~lib/collector/itcm/State.SWEEP)
+         (i32.const 3)
         )
        )
        (br $break|0)
@@ -401,16 +425,16 @@
         (get_global $~lib/collector/itcm/toSpace)
        )
        (set_global $~lib/collector/itcm/state
-        (get_global $~lib/collector/itcm/State.IDLE)
+        (i32.const 1)
        )
       )
      )
      (block
       (call $~iterateRoots
-       (i32.const 1)
+       (i32.const 72)
       )
       (set_global $~lib/collector/itcm/state
-       (get_global $~lib/collector/itcm/State.MARK)
+       (i32.const 2)
       )
       (br $break|0)
      )
@@ -446,14 +470,21 @@
           (get_global $~lib/collector/itcm/HEADER_SIZE)
          )
         )
-        (i32.load offset=8
-         (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (i32.load offset=8
+           (get_local $0)
+          )
+         )
+         (i32.load
+          (get_global $~env)
+         )
         )
        )
       )
       (block
        (call $~iterateRoots
-        (i32.const 1)
+        (i32.const 72)
        )
        (set_local $0
         (call $~lib/collector/itcm/ManagedObject#get:next
@@ -486,7 +517,7 @@
           )
          )
          (set_global $~lib/collector/itcm/state
-          (get_global $~lib/collector/itcm/State.SWEEP)
+          (i32.const 3)
          )
         )
        )
@@ -530,7 +561,7 @@
        (get_global $~lib/collector/itcm/toSpace)
       )
       (set_global $~lib/collector/itcm/state
-       (get_global $~lib/collector/itcm/State.IDLE)
+       (i32.const 1)
       )
      )
     )
@@ -538,7 +569,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/__gc_allocate (; 14 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/collector/itcm/__gc_allocate (; 15 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (local $3 i32)
   (if
@@ -571,6 +602,10 @@
    (get_local $3)
    (get_local $1)
   )
+  (i32.store offset=12
+   (get_local $3)
+   (i32.const 0)
+  )
   (call $~lib/collector/itcm/ManagedObject#set:color
    (get_local $3)
    (get_global $~lib/collector/itcm/white)
@@ -586,7 +621,7 @@
    )
   )
  )
- (func $~lib/string/String~gc (; 15 ;) (type $iv) (param $0 i32)
+ (func $~lib/string/String~gc (; 16 ;) (type $iv) (param $0 i32)
   (if
    (i32.eqz
     (get_local $0)
@@ -597,7 +632,7 @@
    (get_local $0)
   )
  )
- (func $~lib/collector/itcm/__gc_collect (; 16 ;) (type $v)
+ (func $~lib/collector/itcm/__gc_collect (; 17 ;) (type $v)
   (local $0 i32)
   (block $break|0
    (block $case1|0
@@ -608,13 +643,13 @@
      (br_if $case0|0
       (i32.eq
        (get_local $0)
-       (get_global $~lib/collector/itcm/State.INIT)
+       (i32.const 0)
       )
      )
      (br_if $case1|0
       (i32.eq
        (get_local $0)
-       (get_global $~lib/collector/itcm/State.IDLE)
+       (i32.const 1)
       )
      )
      (br $break|0)
@@ -627,7 +662,7 @@
     (if
      (i32.ne
       (get_global $~lib/collector/itcm/state)
-      (get_global $~lib/collector/itcm/State.IDLE)
+      (i32.const 1)
      )
      (block
       (call $~lib/collector/itcm/step)
@@ -637,11 +672,11 @@
    )
   )
  )
- (func $~lib/gc/gc.collect (; 17 ;) (type $v)
+ (func $~lib/gc/gc.collect (; 18 ;) (type $v)
   (call $~lib/collector/itcm/__gc_collect)
   (return)
  )
- (func $std/gc-basics/main (; 18 ;) (type $i) (result i32)
+ (func $std/gc-basics/main (; 19 ;) (type $i) (result i32)
   (if
    (i32.eqz
     (get_global $~started)
@@ -655,7 +690,7 @@
   )
   (i32.const 0)
  )
- (func $start (; 19 ;) (type $v)
+ (func $start (; 20 ;) (type $v)
   (local $0 i32)
   (local $1 i32)
   (local $2 i32)
@@ -677,13 +712,10 @@
   (set_global $~lib/allocator/arena/offset
    (get_global $~lib/allocator/arena/startOffset)
   )
-  (set_global $~lib/collector/itcm/state
-   (get_global $~lib/collector/itcm/State.INIT)
-  )
   (set_global $std/gc-basics/obj
    (call $~lib/collector/itcm/__gc_allocate
     (i32.const 4)
-    (i32.const 0)
+    (i32.const 24)
    )
   )
   (i32.store
@@ -741,7 +773,7 @@
     (block
      (call $~lib/env/abort
       (i32.const 0)
-      (i32.const 24)
+      (i32.const 120)
       (i32.const 19)
       (i32.const 2)
      )
@@ -757,13 +789,13 @@
     (i32.eqz
      (i32.eq
       (get_local $3)
-      (i32.const 0)
+      (i32.const 24)
      )
     )
     (block
      (call $~lib/env/abort
       (i32.const 0)
-      (i32.const 24)
+      (i32.const 120)
       (i32.const 21)
       (i32.const 2)
      )
@@ -785,7 +817,7 @@
     (block
      (call $~lib/env/abort
       (i32.const 0)
-      (i32.const 24)
+      (i32.const 120)
       (i32.const 23)
       (i32.const 2)
      )
@@ -807,7 +839,7 @@
     (block
      (call $~lib/env/abort
       (i32.const 0)
-      (i32.const 24)
+      (i32.const 120)
       (i32.const 25)
       (i32.const 2)
      )
@@ -821,14 +853,28 @@
   )
   (call $~lib/gc/gc.collect)
  )
- (func $~iterateRoots (; 20 ;) (type $iv) (param $0 i32)
+ (func $~iterateRoots (; 21 ;) (type $iv) (param $0 i32)
   (call_indirect (type $iv)
    (get_global $std/gc-basics/obj)
-   (get_local $0)
+   (block (result i32)
+    (set_global $~env
+     (get_local $0)
+    )
+    (i32.load
+     (get_global $~env)
+    )
+   )
   )
   (call_indirect (type $iv)
    (get_global $std/gc-basics/obj2)
-   (get_local $0)
+   (block (result i32)
+    (set_global $~env
+     (get_local $0)
+    )
+    (i32.load
+     (get_global $~env)
+    )
+   )
   )
  )
 )
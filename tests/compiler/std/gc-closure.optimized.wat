@@ -0,0 +1,3328 @@
+(module
+ (type $iii (func (param i32 i32) (result i32)))
+ (type $v (func))
+ (type $ii (func (param i32) (result i32)))
+ (type $iv (func (param i32)))
+ (type $iiv (func (param i32 i32)))
+ (type $i (func (result i32)))
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $iiiv (func (param i32 i32 i32)))
+ (type $FUNCSIG$vii (func (param i32 i32)))
+ (type $FUNCSIG$i (func (result i32)))
+ (type $FUNCSIG$v (func))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
+ (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $~lib/collector/itcm/state (mut i32) (i32.const 0))
+ (global $~lib/collector/itcm/white (mut i32) (i32.const 0))
+ (global $~lib/collector/itcm/fromSpace (mut i32) (i32.const 0))
+ (global $~lib/collector/itcm/toSpace (mut i32) (i32.const 0))
+ (global $~lib/collector/itcm/iter (mut i32) (i32.const 0))
+ (global $~env (mut i32) (i32.const 0))
+ (global $~argc (mut i32) (i32.const 0))
+ (global $std/gc-closure/getter (mut i32) (i32.const 0))
+ (global $std/gc-closure/staticValue (mut i32) (i32.const 200))
+ (global $std/gc-closure/getters (mut i32) (i32.const 0))
+ (global $~started (mut i32) (i32.const 0))
+ (global $RTTI_BASE i32 (i32.const 408))
+ (table 11 11 anyfunc)
+ (elem (i32.const 0) $~lib/collector/itcm/__gc_mark $~lib/env~gc|4 $std/gc-closure/Foo~gc $std/gc-closure/makeGetter~anonymous|3 $~lib/env~gc|0|4 $std/gc-closure/Foo~gc $std/gc-closure/staticGetter $~lib/allocator/arena/__memory_free "$~lib/array/Array<() => i32>~gc" $std/gc-closure/makeGetter~anonymous|3 $~lib/env~gc|0)
+ (memory $0 1)
+ (data (i32.const 16) "0")
+ (data (i32.const 40) "0\00\00\00\00\00\00\00\01")
+ (data (i32.const 64) "0\00\00\00\00\00\00\00\02")
+ (data (i32.const 88) "0\00\00\00\00\00\00\00\04")
+ (data (i32.const 112) "0\00\00\00\00\00\00\00\05")
+ (data (i32.const 136) "x\00\00\00\02\00\00\00\11\00\00\00s\00t\00d\00/\00g\00c\00-\00c\00l\00o\00s\00u\00r\00e\00.\00t\00s")
+ (data (i32.const 192) "0\00\00\00\00\00\00\00\06")
+ (data (i32.const 216) "x\00\00\00\02\00\00\00\0d\00\00\00~\00l\00i\00b\00/\00a\00r\00r\00a\00y\00.\00t\00s")
+ (data (i32.const 264) "x\00\00\00\02\00\00\00\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s")
+ (data (i32.const 344) "0\00\00\00\00\00\00\00\07")
+ (data (i32.const 368) "0\00\00\00\00\00\00\00\08")
+ (data (i32.const 392) "0\00\00\00\00\00\00\00\n")
+ (data (i32.const 408) "\07\00\00\00\01\00\00\00\00\00\00\00\06\00\00\00\02\00\00\00\00\00\00\00\06\00\00\00\03\00\00\00\00\00\00\00\06\00\00\00\04")
+ (data (i32.const 460) "\05\00\00\00\04\00\00\00\00\00\00\00\06\00\00\00\00\00\00\00\06\00\00\00\07\00\00\00\00\00\00\00\06")
+ (export "RTTI_BASE" (global $RTTI_BASE))
+ (export "memory" (memory $0))
+ (export "table" (table $0))
+ (export "main" (func $std/gc-closure/main))
+ (func $~lib/allocator/arena/__memory_allocate (; 1 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 1073741824)
+   )
+   (unreachable)
+  )
+  (if
+   (i32.gt_u
+    (tee_local $2
+     (i32.and
+      (i32.add
+       (i32.add
+        (tee_local $1
+         (get_global $~lib/allocator/arena/offset)
+        )
+        (select
+         (get_local $0)
+         (i32.const 1)
+         (i32.gt_u
+          (get_local $0)
+          (i32.const 1)
+         )
+        )
+       )
+       (i32.const 7)
+      )
+      (i32.const -8)
+     )
+    )
+    (i32.shl
+     (tee_local $3
+      (current_memory)
+     )
+     (i32.const 16)
+    )
+   )
+   (if
+    (i32.lt_s
+     (grow_memory
+      (select
+       (get_local $3)
+       (tee_local $0
+        (i32.shr_u
+         (i32.and
+          (i32.add
+           (i32.sub
+            (get_local $2)
+            (get_local $1)
+           )
+           (i32.const 65535)
+          )
+          (i32.const -65536)
+         )
+         (i32.const 16)
+        )
+       )
+       (i32.gt_s
+        (get_local $3)
+        (get_local $0)
+       )
+      )
+     )
+     (i32.const 0)
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_local $2)
+  )
+  (get_local $1)
+ )
+ (func $~lib/collector/itcm/ManagedObjectList#clear (; 2 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+  (i32.store
+   (get_local $0)
+   (get_local $0)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $0)
+  )
+ )
+ (func $~lib/collector/itcm/ManagedObject#get:color (; 3 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.and
+   (i32.load
+    (get_local $0)
+   )
+   (i32.const 3)
+  )
+ )
+ (func $~lib/collector/itcm/ManagedObject#get:next (; 4 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.and
+   (i32.load
+    (get_local $0)
+   )
+   (i32.const -4)
+  )
+ )
+ (func $~lib/collector/itcm/ManagedObject#set:next (; 5 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (i32.store
+   (get_local $0)
+   (i32.or
+    (get_local $1)
+    (i32.and
+     (i32.load
+      (get_local $0)
+     )
+     (i32.const 3)
+    )
+   )
+  )
+ )
+ (func $~lib/collector/itcm/ManagedObject#unlink (; 6 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+  (local $1 i32)
+  (i32.store offset=4
+   (tee_local $1
+    (call $~lib/collector/itcm/ManagedObject#get:next
+     (get_local $0)
+    )
+   )
+   (tee_local $0
+    (i32.load offset=4
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/collector/itcm/ManagedObject#set:next
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $~lib/collector/itcm/ManagedObjectList#push (; 7 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (call $~lib/collector/itcm/ManagedObject#set:next
+   (get_local $1)
+   (get_local $0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (get_local $2)
+  )
+  (call $~lib/collector/itcm/ManagedObject#set:next
+   (get_local $2)
+   (get_local $1)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $~lib/collector/itcm/ManagedObject#makeGray (; 8 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_global $~lib/collector/itcm/iter)
+   )
+   (set_global $~lib/collector/itcm/iter
+    (i32.load offset=4
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/collector/itcm/ManagedObject#unlink
+   (get_local $0)
+  )
+  (call $~lib/collector/itcm/ManagedObjectList#push
+   (get_global $~lib/collector/itcm/toSpace)
+   (get_local $0)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.or
+    (i32.and
+     (i32.load
+      (get_local $0)
+     )
+     (i32.const -4)
+    )
+    (i32.const 2)
+   )
+  )
+ )
+ (func $~lib/collector/itcm/__gc_mark (; 9 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+  (local $1 i32)
+  (if
+   (get_local $0)
+   (if
+    (i32.eq
+     (call $~lib/collector/itcm/ManagedObject#get:color
+      (tee_local $1
+       (i32.sub
+        (get_local $0)
+        (i32.const 16)
+       )
+      )
+     )
+     (get_global $~lib/collector/itcm/white)
+    )
+    (call $~lib/collector/itcm/ManagedObject#makeGray
+     (get_local $1)
+    )
+   )
+  )
+ )
+ (func $~lib/env~gc|4 (; 10 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return)
+  )
+  (call $~lib/collector/itcm/__gc_mark
+   (get_local $0)
+  )
+  (call $~lib/collector/itcm/__gc_mark
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/collector/itcm/ManagedObject#set:color (; 11 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (i32.store
+   (get_local $0)
+   (i32.or
+    (i32.and
+     (i32.load
+      (get_local $0)
+     )
+     (i32.const -4)
+    )
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/allocator/arena/__memory_free (; 12 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+  (nop)
+ )
+ (func $~lib/collector/itcm/step (; 13 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (block $break|0
+   (block $case3|0
+    (block $case2|0
+     (block $case1|0
+      (if
+       (tee_local $0
+        (get_global $~lib/collector/itcm/state)
+       )
+       (block
+        (block $tablify|0
+         (br_table $case1|0 $case2|0 $case3|0 $tablify|0
+          (i32.sub
+           (get_local $0)
+           (i32.const 1)
+          )
+         )
+        )
+        (br $break|0)
+       )
+      )
+      (set_global $~lib/collector/itcm/fromSpace
+       (tee_local $0
+        (call $~lib/allocator/arena/__memory_allocate
+         (i32.const 16)
+        )
+       )
+      )
+      (i32.store offset=8
+       (get_global $~lib/collector/itcm/fromSpace)
+       (i32.const -1)
+      )
+      (call $~lib/collector/itcm/ManagedObjectList#clear
+       (get_global $~lib/collector/itcm/fromSpace)
+      )
+      (set_global $~lib/collector/itcm/toSpace
+       (tee_local $0
+        (call $~lib/allocator/arena/__memory_allocate
+         (i32.const 16)
+        )
+       )
+      )
+      (i32.store offset=8
+       (get_global $~lib/collector/itcm/toSpace)
+       (i32.const -1)
+      )
+      (call $~lib/collector/itcm/ManagedObjectList#clear
+       (get_global $~lib/collector/itcm/toSpace)
+      )
+      (set_global $~lib/collector/itcm/iter
+       (get_global $~lib/collector/itcm/toSpace)
+      )
+      (set_global $~lib/collector/itcm/state
+       (i32.const 1)
+      )
+     )
+     (call $~iterateRoots)
+     (set_global $~lib/collector/itcm/state
+      (i32.const 2)
+     )
+     (br $break|0)
+    )
+    (if
+     (i32.ne
+      (tee_local $0
+       (call $~lib/collector/itcm/ManagedObject#get:next
+        (get_global $~lib/collector/itcm/iter)
+       )
+      )
+      (get_global $~lib/collector/itcm/toSpace)
+     )
+     (block
+      (set_global $~lib/collector/itcm/iter
+       (get_local $0)
+      )
+      (call $~lib/collector/itcm/ManagedObject#set:color
+       (get_local $0)
+       (i32.eqz
+        (get_global $~lib/collector/itcm/white)
+       )
+      )
+      (set_global $~argc
+       (i32.const 1)
+      )
+      (set_global $~env
+       (i32.load offset=8
+        (get_local $0)
+       )
+      )
+      (call_indirect (type $iv)
+       (i32.add
+        (get_local $0)
+        (i32.const 16)
+       )
+       (i32.load
+        (get_global $~env)
+       )
+      )
+     )
+     (block
+      (call $~iterateRoots)
+      (if
+       (i32.eq
+        (call $~lib/collector/itcm/ManagedObject#get:next
+         (get_global $~lib/collector/itcm/iter)
+        )
+        (get_global $~lib/collector/itcm/toSpace)
+       )
+       (block
+        (set_local $0
+         (get_global $~lib/collector/itcm/fromSpace)
+        )
+        (set_global $~lib/collector/itcm/fromSpace
+         (get_global $~lib/collector/itcm/toSpace)
+        )
+        (set_global $~lib/collector/itcm/toSpace
+         (get_local $0)
+        )
+        (set_global $~lib/collector/itcm/white
+         (i32.eqz
+          (get_global $~lib/collector/itcm/white)
+         )
+        )
+        (set_global $~lib/collector/itcm/iter
+         (call $~lib/collector/itcm/ManagedObject#get:next
+          (get_local $0)
+         )
+        )
+        (set_global $~lib/collector/itcm/state
+         (i32.const 3)
+        )
+       )
+      )
+     )
+    )
+    (br $break|0)
+   )
+   (if
+    (i32.ne
+     (tee_local $0
+      (get_global $~lib/collector/itcm/iter)
+     )
+     (get_global $~lib/collector/itcm/toSpace)
+    )
+    (block
+     (set_global $~lib/collector/itcm/iter
+      (call $~lib/collector/itcm/ManagedObject#get:next
+       (get_local $0)
+      )
+     )
+     (if
+      (i32.ge_u
+       (get_local $0)
+       (i32.const 496)
+      )
+      (call $~lib/allocator/arena/__memory_free
+       (get_local $0)
+      )
+     )
+    )
+    (block
+     (call $~lib/collector/itcm/ManagedObjectList#clear
+      (get_global $~lib/collector/itcm/toSpace)
+     )
+     (set_global $~lib/collector/itcm/state
+      (i32.const 1)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/collector/itcm/__gc_allocate (; 14 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 1073741808)
+   )
+   (unreachable)
+  )
+  (call $~lib/collector/itcm/step)
+  (i32.store offset=8
+   (tee_local $0
+    (call $~lib/allocator/arena/__memory_allocate
+     (i32.add
+      (get_local $0)
+      (i32.const 16)
+     )
+    )
+   )
+   (get_local $1)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (i32.const 0)
+  )
+  (call $~lib/collector/itcm/ManagedObject#set:color
+   (get_local $0)
+   (get_global $~lib/collector/itcm/white)
+  )
+  (call $~lib/collector/itcm/ManagedObjectList#push
+   (get_global $~lib/collector/itcm/fromSpace)
+   (get_local $0)
+  )
+  (i32.add
+   (get_local $0)
+   (i32.const 16)
+  )
+ )
+ (func $std/gc-closure/Foo~gc (; 15 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return)
+  )
+  (call $~lib/collector/itcm/__gc_mark
+   (get_local $0)
+  )
+ )
+ (func $std/gc-closure/makeGetter~anonymous|3 (; 16 ;) (; has Stack IR ;) (type $i) (result i32)
+  (i32.load
+   (i32.load offset=4
+    (i32.load offset=4
+     (get_global $~env)
+    )
+   )
+  )
+ )
+ (func $~lib/env~gc|0|4 (; 17 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return)
+  )
+  (call $~lib/collector/itcm/__gc_mark
+   (get_local $0)
+  )
+  (call $~lib/collector/itcm/__gc_mark
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (call $~lib/collector/itcm/__gc_mark
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+ )
+ (func $std/gc-closure/makeGetter (; 18 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (tee_local $1
+    (call $~lib/collector/itcm/__gc_allocate
+     (i32.const 8)
+     (i32.const 96)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (get_local $0)
+  )
+  (i32.store
+   (tee_local $0
+    (call $~lib/collector/itcm/__gc_allocate
+     (i32.const 8)
+     (i32.const 48)
+    )
+   )
+   (i32.const 3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (get_local $0)
+ )
+ (func $~lib/collector/itcm/__gc_collect (; 19 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (block $break|0
+   (block $case1|0
+    (br_if $case1|0
+     (i32.eqz
+      (tee_local $0
+       (get_global $~lib/collector/itcm/state)
+      )
+     )
+    )
+    (br_if $case1|0
+     (i32.eq
+      (get_local $0)
+      (i32.const 1)
+     )
+    )
+    (br $break|0)
+   )
+   (call $~lib/collector/itcm/step)
+  )
+  (loop $continue|1
+   (if
+    (i32.ne
+     (get_global $~lib/collector/itcm/state)
+     (i32.const 1)
+    )
+    (block
+     (call $~lib/collector/itcm/step)
+     (br $continue|1)
+    )
+   )
+  )
+ )
+ (func $~lib/gc/gc.collect (; 20 ;) (; has Stack IR ;) (type $v)
+  (call $~lib/collector/itcm/__gc_collect)
+ )
+ (func $std/gc-closure/staticGetter (; 21 ;) (; has Stack IR ;) (type $i) (result i32)
+  (i32.const 1)
+ )
+ (func $~lib/internal/arraybuffer/computeSize (; 22 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.shl
+   (i32.const 1)
+   (i32.sub
+    (i32.const 32)
+    (i32.clz
+     (i32.add
+      (get_local $0)
+      (i32.const 7)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/arraybuffer/allocateUnsafe (; 23 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 1073741816)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 272)
+     (i32.const 23)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $1
+    (call $~lib/collector/itcm/__gc_allocate
+     (call $~lib/internal/arraybuffer/computeSize
+      (get_local $0)
+     )
+     (i32.const 352)
+    )
+   )
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func "$~lib/array/Array<() => i32>~gc" (; 24 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (call $~lib/collector/itcm/__gc_mark
+   (tee_local $2
+    (i32.load
+     (get_local $0)
+    )
+   )
+  )
+  (set_local $0
+   (i32.shl
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.const 2)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.lt_u
+     (get_local $1)
+     (get_local $0)
+    )
+    (block
+     (call $~lib/collector/itcm/__gc_mark
+      (i32.load offset=8
+       (i32.add
+        (get_local $2)
+        (get_local $1)
+       )
+      )
+     )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 4)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+ )
+ (func $~lib/internal/memory/memset (; 25 ;) (; has Stack IR ;) (type $FUNCSIG$vii) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (return)
+  )
+  (i32.store8
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $1)
+    )
+    (i32.const 1)
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.le_u
+    (get_local $1)
+    (i32.const 2)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 1)
+   )
+   (i32.const 0)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 2)
+   )
+   (i32.const 0)
+  )
+  (i32.store8
+   (i32.sub
+    (tee_local $2
+     (i32.add
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+    (i32.const 2)
+   )
+   (i32.const 0)
+  )
+  (i32.store8
+   (i32.sub
+    (get_local $2)
+    (i32.const 3)
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.le_u
+    (get_local $1)
+    (i32.const 6)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 3)
+   )
+   (i32.const 0)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $1)
+    )
+    (i32.const 4)
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.le_u
+    (get_local $1)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (i32.store
+   (tee_local $0
+    (i32.add
+     (get_local $0)
+     (tee_local $2
+      (i32.and
+       (i32.sub
+        (i32.const 0)
+        (get_local $0)
+       )
+       (i32.const 3)
+      )
+     )
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (tee_local $1
+      (i32.and
+       (i32.sub
+        (get_local $1)
+        (get_local $2)
+       )
+       (i32.const -4)
+      )
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.le_u
+    (get_local $1)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 4)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 8)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $2
+     (i32.add
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+    (i32.const 12)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (get_local $2)
+    (i32.const 8)
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.le_u
+    (get_local $1)
+    (i32.const 24)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 12)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 16)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 20)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 24)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $2
+     (i32.add
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+    (i32.const 28)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (get_local $2)
+    (i32.const 24)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (get_local $2)
+    (i32.const 20)
+   )
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.sub
+    (get_local $2)
+    (i32.const 16)
+   )
+   (i32.const 0)
+  )
+  (set_local $0
+   (i32.add
+    (get_local $0)
+    (tee_local $2
+     (i32.add
+      (i32.and
+       (get_local $0)
+       (i32.const 4)
+      )
+      (i32.const 24)
+     )
+    )
+   )
+  )
+  (set_local $1
+   (i32.sub
+    (get_local $1)
+    (get_local $2)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.ge_u
+     (get_local $1)
+     (i32.const 32)
+    )
+    (block
+     (i64.store
+      (get_local $0)
+      (i64.const 0)
+     )
+     (i64.store
+      (i32.add
+       (get_local $0)
+       (i32.const 8)
+      )
+      (i64.const 0)
+     )
+     (i64.store
+      (i32.add
+       (get_local $0)
+       (i32.const 16)
+      )
+      (i64.const 0)
+     )
+     (i64.store
+      (i32.add
+       (get_local $0)
+       (i32.const 24)
+      )
+      (i64.const 0)
+     )
+     (set_local $1
+      (i32.sub
+       (get_local $1)
+       (i32.const 32)
+      )
+     )
+     (set_local $0
+      (i32.add
+       (get_local $0)
+       (i32.const 32)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+ )
+ (func "$~lib/array/Array<() => i32>#constructor" (; 26 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (set_local $1
+   (call $~lib/internal/arraybuffer/allocateUnsafe
+    (i32.const 0)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (call $~lib/collector/itcm/__gc_allocate
+      (i32.const 8)
+      (i32.const 376)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 7)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (call $~lib/internal/memory/memset
+   (i32.add
+    (get_local $1)
+    (i32.const 8)
+   )
+   (i32.const 0)
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/memory/memcpy (; 27 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (loop $continue|0
+   (if
+    (tee_local $3
+     (if (result i32)
+      (get_local $2)
+      (i32.and
+       (get_local $1)
+       (i32.const 3)
+      )
+      (get_local $2)
+     )
+    )
+    (block
+     (set_local $0
+      (i32.add
+       (tee_local $4
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (tee_local $3
+        (get_local $1)
+       )
+       (i32.const 1)
+      )
+     )
+     (i32.store8
+      (get_local $4)
+      (i32.load8_u
+       (get_local $3)
+      )
+     )
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (get_local $0)
+     (i32.const 3)
+    )
+   )
+   (block
+    (loop $continue|1
+     (if
+      (i32.ge_u
+       (get_local $2)
+       (i32.const 16)
+      )
+      (block
+       (i32.store
+        (get_local $0)
+        (i32.load
+         (get_local $1)
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 4)
+        )
+        (i32.load
+         (i32.add
+          (get_local $1)
+          (i32.const 4)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (i32.load
+         (i32.add
+          (get_local $1)
+          (i32.const 8)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 12)
+        )
+        (i32.load
+         (i32.add
+          (get_local $1)
+          (i32.const 12)
+         )
+        )
+       )
+       (set_local $1
+        (i32.add
+         (get_local $1)
+         (i32.const 16)
+        )
+       )
+       (set_local $0
+        (i32.add
+         (get_local $0)
+         (i32.const 16)
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 16)
+        )
+       )
+       (br $continue|1)
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 8)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+       (i32.load
+        (i32.add
+         (get_local $1)
+         (i32.const 4)
+        )
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 8)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 8)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 4)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 4)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 2)
+     )
+     (block
+      (i32.store16
+       (get_local $0)
+       (i32.load16_u
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 2)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 1)
+     )
+     (block
+      (set_local $3
+       (get_local $1)
+      )
+      (i32.store8
+       (get_local $0)
+       (i32.load8_u
+        (get_local $1)
+       )
+      )
+     )
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $2)
+    (i32.const 32)
+   )
+   (block $break|2
+    (block $case2|2
+     (block $case1|2
+      (if
+       (i32.ne
+        (tee_local $3
+         (i32.and
+          (get_local $0)
+          (i32.const 3)
+         )
+        )
+        (i32.const 1)
+       )
+       (block
+        (br_if $case1|2
+         (i32.eq
+          (get_local $3)
+          (i32.const 2)
+         )
+        )
+        (br_if $case2|2
+         (i32.eq
+          (get_local $3)
+          (i32.const 3)
+         )
+        )
+        (br $break|2)
+       )
+      )
+      (set_local $5
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store8
+       (get_local $0)
+       (i32.load8_u
+        (tee_local $3
+         (get_local $1)
+        )
+       )
+      )
+      (set_local $0
+       (tee_local $1
+        (i32.add
+         (get_local $0)
+         (i32.const 1)
+        )
+       )
+      )
+      (i32.store8
+       (get_local $1)
+       (i32.load8_u
+        (tee_local $1
+         (i32.add
+          (get_local $3)
+          (i32.const 1)
+         )
+        )
+       )
+      )
+      (set_local $0
+       (i32.add
+        (tee_local $4
+         (i32.add
+          (get_local $0)
+          (i32.const 1)
+         )
+        )
+        (i32.const 1)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (tee_local $3
+         (i32.add
+          (get_local $1)
+          (i32.const 1)
+         )
+        )
+        (i32.const 1)
+       )
+      )
+      (i32.store8
+       (get_local $4)
+       (i32.load8_u
+        (get_local $3)
+       )
+      )
+      (set_local $2
+       (i32.sub
+        (get_local $2)
+        (i32.const 3)
+       )
+      )
+      (loop $continue|3
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 17)
+        )
+        (block
+         (i32.store
+          (get_local $0)
+          (i32.or
+           (i32.shr_u
+            (get_local $5)
+            (i32.const 24)
+           )
+           (i32.shl
+            (tee_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 1)
+              )
+             )
+            )
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 4)
+          )
+          (i32.or
+           (i32.shr_u
+            (get_local $3)
+            (i32.const 24)
+           )
+           (i32.shl
+            (tee_local $5
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 5)
+              )
+             )
+            )
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 8)
+          )
+          (i32.or
+           (i32.shr_u
+            (get_local $5)
+            (i32.const 24)
+           )
+           (i32.shl
+            (tee_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 9)
+              )
+             )
+            )
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 12)
+          )
+          (i32.or
+           (i32.shr_u
+            (get_local $3)
+            (i32.const 24)
+           )
+           (i32.shl
+            (tee_local $5
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 13)
+              )
+             )
+            )
+            (i32.const 8)
+           )
+          )
+         )
+         (set_local $1
+          (i32.add
+           (get_local $1)
+           (i32.const 16)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (get_local $0)
+           (i32.const 16)
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 16)
+          )
+         )
+         (br $continue|3)
+        )
+       )
+      )
+      (br $break|2)
+     )
+     (set_local $5
+      (i32.load
+       (get_local $1)
+      )
+     )
+     (i32.store8
+      (get_local $0)
+      (i32.load8_u
+       (get_local $1)
+      )
+     )
+     (set_local $0
+      (i32.add
+       (tee_local $4
+        (i32.add
+         (get_local $0)
+         (i32.const 1)
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (tee_local $3
+        (i32.add
+         (get_local $1)
+         (i32.const 1)
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (i32.store8
+      (get_local $4)
+      (i32.load8_u
+       (get_local $3)
+      )
+     )
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 2)
+      )
+     )
+     (loop $continue|4
+      (if
+       (i32.ge_u
+        (get_local $2)
+        (i32.const 18)
+       )
+       (block
+        (i32.store
+         (get_local $0)
+         (i32.or
+          (i32.shr_u
+           (get_local $5)
+           (i32.const 16)
+          )
+          (i32.shl
+           (tee_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 2)
+             )
+            )
+           )
+           (i32.const 16)
+          )
+         )
+        )
+        (i32.store
+         (i32.add
+          (get_local $0)
+          (i32.const 4)
+         )
+         (i32.or
+          (i32.shr_u
+           (get_local $3)
+           (i32.const 16)
+          )
+          (i32.shl
+           (tee_local $5
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 6)
+             )
+            )
+           )
+           (i32.const 16)
+          )
+         )
+        )
+        (i32.store
+         (i32.add
+          (get_local $0)
+          (i32.const 8)
+         )
+         (i32.or
+          (i32.shr_u
+           (get_local $5)
+           (i32.const 16)
+          )
+          (i32.shl
+           (tee_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 10)
+             )
+            )
+           )
+           (i32.const 16)
+          )
+         )
+        )
+        (i32.store
+         (i32.add
+          (get_local $0)
+          (i32.const 12)
+         )
+         (i32.or
+          (i32.shr_u
+           (get_local $3)
+           (i32.const 16)
+          )
+          (i32.shl
+           (tee_local $5
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 14)
+             )
+            )
+           )
+           (i32.const 16)
+          )
+         )
+        )
+        (set_local $1
+         (i32.add
+          (get_local $1)
+          (i32.const 16)
+         )
+        )
+        (set_local $0
+         (i32.add
+          (get_local $0)
+          (i32.const 16)
+         )
+        )
+        (set_local $2
+         (i32.sub
+          (get_local $2)
+          (i32.const 16)
+         )
+        )
+        (br $continue|4)
+       )
+      )
+     )
+     (br $break|2)
+    )
+    (set_local $5
+     (i32.load
+      (get_local $1)
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (get_local $1)
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+    (set_local $2
+     (i32.sub
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (loop $continue|5
+     (if
+      (i32.ge_u
+       (get_local $2)
+       (i32.const 19)
+      )
+      (block
+       (i32.store
+        (get_local $0)
+        (i32.or
+         (i32.shr_u
+          (get_local $5)
+          (i32.const 8)
+         )
+         (i32.shl
+          (tee_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 3)
+            )
+           )
+          )
+          (i32.const 24)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 4)
+        )
+        (i32.or
+         (i32.shr_u
+          (get_local $3)
+          (i32.const 8)
+         )
+         (i32.shl
+          (tee_local $5
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 7)
+            )
+           )
+          )
+          (i32.const 24)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (i32.or
+         (i32.shr_u
+          (get_local $5)
+          (i32.const 8)
+         )
+         (i32.shl
+          (tee_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 11)
+            )
+           )
+          )
+          (i32.const 24)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 12)
+        )
+        (i32.or
+         (i32.shr_u
+          (get_local $3)
+          (i32.const 8)
+         )
+         (i32.shl
+          (tee_local $5
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 15)
+            )
+           )
+          )
+          (i32.const 24)
+         )
+        )
+       )
+       (set_local $1
+        (i32.add
+         (get_local $1)
+         (i32.const 16)
+        )
+       )
+       (set_local $0
+        (i32.add
+         (get_local $0)
+         (i32.const 16)
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 16)
+        )
+       )
+       (br $continue|5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 16)
+   )
+   (block
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (tee_local $3
+       (get_local $1)
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $1
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $1)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $3)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 8)
+   )
+   (block
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (tee_local $3
+       (get_local $1)
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $1
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $1)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $3)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 4)
+   )
+   (block
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (tee_local $3
+       (get_local $1)
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $1
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $1)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $3)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 2)
+   )
+   (block
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (get_local $1)
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 1)
+   )
+   (block
+    (set_local $3
+     (get_local $1)
+    )
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (get_local $1)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/memory/memmove (; 28 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return)
+  )
+  (if
+   (i32.eqz
+    (tee_local $3
+     (i32.le_u
+      (i32.add
+       (get_local $1)
+       (get_local $2)
+      )
+      (get_local $0)
+     )
+    )
+   )
+   (set_local $3
+    (i32.le_u
+     (i32.add
+      (get_local $0)
+      (get_local $2)
+     )
+     (get_local $1)
+    )
+   )
+  )
+  (if
+   (get_local $3)
+   (block
+    (call $~lib/internal/memory/memcpy
+     (get_local $0)
+     (get_local $1)
+     (get_local $2)
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.lt_u
+    (get_local $0)
+    (get_local $1)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (loop $continue|0
+       (if
+        (i32.and
+         (get_local $0)
+         (i32.const 7)
+        )
+        (block
+         (if
+          (i32.eqz
+           (get_local $2)
+          )
+          (return)
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (tee_local $3
+            (tee_local $4
+             (get_local $0)
+            )
+           )
+           (i32.const 1)
+          )
+         )
+         (set_local $1
+          (i32.add
+           (tee_local $3
+            (get_local $1)
+           )
+           (i32.const 1)
+          )
+         )
+         (i32.store8
+          (get_local $4)
+          (i32.load8_u
+           (get_local $3)
+          )
+         )
+         (br $continue|0)
+        )
+       )
+      )
+      (loop $continue|1
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 8)
+        )
+        (block
+         (i64.store
+          (get_local $0)
+          (i64.load
+           (get_local $1)
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 8)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (get_local $0)
+           (i32.const 8)
+          )
+         )
+         (set_local $1
+          (i32.add
+           (get_local $1)
+           (i32.const 8)
+          )
+         )
+         (br $continue|1)
+        )
+       )
+      )
+     )
+    )
+    (loop $continue|2
+     (if
+      (get_local $2)
+      (block
+       (set_local $0
+        (i32.add
+         (tee_local $3
+          (tee_local $4
+           (get_local $0)
+          )
+         )
+         (i32.const 1)
+        )
+       )
+       (set_local $1
+        (i32.add
+         (tee_local $3
+          (get_local $1)
+         )
+         (i32.const 1)
+        )
+       )
+       (i32.store8
+        (get_local $4)
+        (i32.load8_u
+         (get_local $3)
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+       (br $continue|2)
+      )
+     )
+    )
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (loop $continue|3
+       (if
+        (i32.and
+         (i32.add
+          (get_local $0)
+          (get_local $2)
+         )
+         (i32.const 7)
+        )
+        (block
+         (if
+          (i32.eqz
+           (get_local $2)
+          )
+          (return)
+         )
+         (i32.store8
+          (i32.add
+           (get_local $0)
+           (tee_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 1)
+            )
+           )
+          )
+          (i32.load8_u
+           (i32.add
+            (get_local $1)
+            (get_local $2)
+           )
+          )
+         )
+         (br $continue|3)
+        )
+       )
+      )
+      (loop $continue|4
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 8)
+        )
+        (block
+         (i64.store
+          (i32.add
+           (get_local $0)
+           (tee_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 8)
+            )
+           )
+          )
+          (i64.load
+           (i32.add
+            (get_local $1)
+            (get_local $2)
+           )
+          )
+         )
+         (br $continue|4)
+        )
+       )
+      )
+     )
+    )
+    (loop $continue|5
+     (if
+      (get_local $2)
+      (block
+       (i32.store8
+        (i32.add
+         (get_local $0)
+         (tee_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+        )
+        (i32.load8_u
+         (i32.add
+          (get_local $1)
+          (get_local $2)
+         )
+        )
+       )
+       (br $continue|5)
+      )
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/arraybuffer/reallocateUnsafe (; 29 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.gt_s
+    (get_local $1)
+    (tee_local $2
+     (i32.load
+      (get_local $0)
+     )
+    )
+   )
+   (block
+    (if
+     (i32.gt_s
+      (get_local $1)
+      (i32.const 1073741816)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 272)
+       (i32.const 37)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.le_s
+      (get_local $1)
+      (i32.sub
+       (call $~lib/internal/arraybuffer/computeSize
+        (get_local $2)
+       )
+       (i32.const 8)
+      )
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (get_local $1)
+      )
+      (call $~lib/internal/memory/memset
+       (i32.add
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (get_local $2)
+       )
+       (i32.sub
+        (get_local $1)
+        (get_local $2)
+       )
+      )
+     )
+     (block
+      (call $~lib/internal/memory/memmove
+       (i32.add
+        (tee_local $3
+         (call $~lib/internal/arraybuffer/allocateUnsafe
+          (get_local $1)
+         )
+        )
+        (i32.const 8)
+       )
+       (i32.add
+        (get_local $0)
+        (i32.const 8)
+       )
+       (get_local $2)
+      )
+      (call $~lib/internal/memory/memset
+       (i32.add
+        (i32.add
+         (get_local $3)
+         (i32.const 8)
+        )
+        (get_local $2)
+       )
+       (i32.sub
+        (get_local $1)
+        (get_local $2)
+       )
+      )
+      (return
+       (get_local $3)
+      )
+     )
+    )
+   )
+   (if
+    (i32.lt_s
+     (get_local $1)
+     (get_local $2)
+    )
+    (block
+     (if
+      (i32.lt_s
+       (get_local $1)
+       (i32.const 0)
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 272)
+        (i32.const 61)
+        (i32.const 4)
+       )
+       (unreachable)
+      )
+     )
+     (i32.store
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/collector/itcm/__gc_link (; 30 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (if
+   (tee_local $0
+    (i32.eq
+     (call $~lib/collector/itcm/ManagedObject#get:color
+      (tee_local $2
+       (i32.sub
+        (get_local $0)
+        (i32.const 16)
+       )
+      )
+     )
+     (i32.eqz
+      (get_global $~lib/collector/itcm/white)
+     )
+    )
+   )
+   (set_local $0
+    (i32.eq
+     (call $~lib/collector/itcm/ManagedObject#get:color
+      (i32.sub
+       (get_local $1)
+       (i32.const 16)
+      )
+     )
+     (get_global $~lib/collector/itcm/white)
+    )
+   )
+  )
+  (if
+   (get_local $0)
+   (call $~lib/collector/itcm/ManagedObject#makeGray
+    (get_local $2)
+   )
+  )
+ )
+ (func "$~lib/array/Array<() => i32>#push" (; 31 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.add
+    (tee_local $2
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $2)
+    (i32.shr_u
+     (i32.load
+      (tee_local $4
+       (i32.load
+        (get_local $0)
+       )
+      )
+     )
+     (i32.const 2)
+    )
+   )
+   (block
+    (if
+     (i32.ge_u
+      (get_local $2)
+      (i32.const 268435454)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 224)
+       (i32.const 193)
+       (i32.const 42)
+      )
+      (unreachable)
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (tee_local $4
+      (call $~lib/internal/arraybuffer/reallocateUnsafe
+       (get_local $4)
+       (i32.shl
+        (get_local $3)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $3)
+  )
+  (i32.store offset=8
+   (i32.add
+    (get_local $4)
+    (i32.shl
+     (get_local $2)
+     (i32.const 2)
+    )
+   )
+   (get_local $1)
+  )
+  (call $~lib/collector/itcm/__gc_link
+   (get_local $0)
+   (get_local $1)
+  )
+  (get_local $3)
+ )
+ (func "$~lib/array/Array<() => i32>#__get" (; 32 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (tee_local $0
+   (if (result i32)
+    (i32.lt_u
+     (get_local $1)
+     (i32.shr_u
+      (i32.load
+       (tee_local $0
+        (i32.load
+         (get_local $0)
+        )
+       )
+      )
+      (i32.const 2)
+     )
+    )
+    (i32.load offset=8
+     (i32.add
+      (get_local $0)
+      (i32.shl
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+    )
+    (unreachable)
+   )
+  )
+ )
+ (func $std/gc-closure/main (; 33 ;) (; has Stack IR ;) (type $i) (result i32)
+  (if
+   (i32.eqz
+    (get_global $~started)
+   )
+   (block
+    (call $start)
+    (set_global $~started
+     (i32.const 1)
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/env~gc|0 (; 34 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return)
+  )
+  (call $~lib/collector/itcm/__gc_mark
+   (get_local $0)
+  )
+  (call $~lib/collector/itcm/__gc_mark
+   (i32.load
+    (get_local $0)
+   )
+  )
+ )
+ (func $start (; 35 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_global $~lib/allocator/arena/startOffset
+   (i32.const 496)
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_global $~lib/allocator/arena/startOffset)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (call $~lib/collector/itcm/__gc_allocate
+      (i32.const 4)
+      (i32.const 72)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 6)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 42)
+  )
+  (set_global $std/gc-closure/getter
+   (call $std/gc-closure/makeGetter
+    (get_local $0)
+   )
+  )
+  (i32.store
+   (tee_local $3
+    (call $~lib/collector/itcm/__gc_allocate
+     (i32.const 4)
+     (i32.const 400)
+    )
+   )
+   (i32.const 0)
+  )
+  (if
+   (i32.eqz
+    (i32.load offset=8
+     (i32.sub
+      (get_global $std/gc-closure/getter)
+      (i32.const 16)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 17)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.load offset=8
+     (i32.sub
+      (i32.load offset=4
+       (get_global $std/gc-closure/getter)
+      )
+      (i32.const 16)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 20)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/gc/gc.collect)
+  (set_global $~argc
+   (i32.const 0)
+  )
+  (set_global $~env
+   (get_global $std/gc-closure/getter)
+  )
+  (if
+   (i32.ne
+    (call_indirect (type $i)
+     (i32.load
+      (get_global $~env)
+     )
+    )
+    (i32.const 42)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 24)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.load offset=8
+     (i32.sub
+      (get_global $std/gc-closure/staticValue)
+      (i32.const 16)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 29)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/gc-closure/getters
+   (call "$~lib/array/Array<() => i32>#constructor")
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $1)
+      (i32.const 3)
+     )
+    )
+    (i32.store
+     (tee_local $2
+      (call $~lib/collector/itcm/__gc_allocate
+       (i32.const 8)
+       (i32.const 96)
+      )
+     )
+     (get_local $3)
+    )
+    (i32.store offset=4
+     (get_local $2)
+     (i32.const 0)
+    )
+    (i32.store
+     (i32.sub
+      (tee_local $0
+       (call $~lib/collector/itcm/__gc_allocate
+        (i32.const 4)
+        (i32.const 72)
+       )
+      )
+      (i32.const 4)
+     )
+     (i32.const 6)
+    )
+    (i32.store
+     (get_local $0)
+     (get_local $1)
+    )
+    (i32.store offset=4
+     (get_local $2)
+     (get_local $0)
+    )
+    (set_local $4
+     (get_global $std/gc-closure/getters)
+    )
+    (i32.store
+     (tee_local $0
+      (call $~lib/collector/itcm/__gc_allocate
+       (i32.const 8)
+       (i32.const 48)
+      )
+     )
+     (i32.const 9)
+    )
+    (i32.store offset=4
+     (get_local $0)
+     (get_local $2)
+    )
+    (drop
+     (call "$~lib/array/Array<() => i32>#push"
+      (get_local $4)
+      (get_local $0)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (call $~lib/gc/gc.collect)
+  (set_global $std/gc-closure/getter
+   (call "$~lib/array/Array<() => i32>#__get"
+    (get_global $std/gc-closure/getters)
+    (i32.const 2)
+   )
+  )
+  (set_global $~argc
+   (i32.const 0)
+  )
+  (set_global $~env
+   (get_global $std/gc-closure/getter)
+  )
+  (if
+   (i32.ne
+    (call_indirect (type $i)
+     (i32.load
+      (get_global $~env)
+     )
+    )
+    (i32.const 2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 40)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/gc-closure/getter
+   (call "$~lib/array/Array<() => i32>#__get"
+    (get_global $std/gc-closure/getters)
+    (i32.const 0)
+   )
+  )
+  (set_global $~argc
+   (i32.const 0)
+  )
+  (set_global $~env
+   (get_global $std/gc-closure/getter)
+  )
+  (if
+   (call_indirect (type $i)
+    (i32.load
+     (get_global $~env)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 42)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+ )
+ (func $~iterateRoots (; 36 ;) (; has Stack IR ;) (type $FUNCSIG$v)
+  (set_global $~env
+   (i32.const 24)
+  )
+  (call_indirect (type $iv)
+   (get_global $std/gc-closure/getter)
+   (i32.load
+    (get_global $~env)
+   )
+  )
+  (set_global $~env
+   (i32.const 24)
+  )
+  (call_indirect (type $iv)
+   (get_global $std/gc-closure/staticValue)
+   (i32.load
+    (get_global $~env)
+   )
+  )
+  (set_global $~env
+   (i32.const 24)
+  )
+  (call_indirect (type $iv)
+   (get_global $std/gc-closure/getters)
+   (i32.load
+    (get_global $~env)
+   )
+  )
+ )
+)
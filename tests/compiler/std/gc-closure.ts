@@ -0,0 +1,44 @@
+import "allocator/arena";
+import "collector/itcm";
+
+class Foo {
+  value: i32;
+}
+
+function makeGetter(foo: Foo): () => i32 {
+  return (): i32 => foo.value;
+}
+
+// function values and environments of closures are managed
+var getter = makeGetter({ value: 42 });
+{
+  let head = changetype<usize>(getter) - 16;
+  let visitFn = load<u32>(head, 8);
+  assert(visitFn != 0);
+  let env = load<usize>(changetype<usize>(getter), 4);
+  visitFn = load<u32>(env - 16, 8);
+  assert(visitFn != 0);
+}
+
+gc.collect(); // should keep the closure, its environment and 'foo' (see trace output)
+assert(getter() == 42);
+
+// so are static function values
+function staticGetter(): i32 { return 1; }
+var staticValue: () => i32 = staticGetter;
+assert(load<u32>(changetype<usize>(staticValue) - 16, 8) != 0);
+
+// closures created within loops get a new environment per iteration
+var getters = new Array<() => i32>();
+for (let i = 0; i < 3; ++i) {
+  let foo: Foo = { value: i };
+  getters.push((): i32 => foo.value);
+}
+
+gc.collect(); // should keep all of them because the array links them
+getter = getters[2];
+assert(getter() == 2);
+getter = getters[0];
+assert(getter() == 0);
+
+export function main(): i32 { return 0; }
@@ -8,6 +8,7 @@
  (global $std/gc-integration/a_ref (mut i32) (i32.const 24))
  (global $std/gc-integration/b_ref (mut i32) (i32.const 32))
  (global $std/gc-integration/i (mut i32) (i32.const 0))
+ (global $~env (mut i32) (i32.const 0))
  (table 1 1 anyfunc)
  (elem (i32.const 0) $start~anonymous|0)
  (memory $0 1)
@@ -60,21 +61,41 @@
   )
  )
  (func $~iterateRoots (; 3 ;) (; has Stack IR ;) (type $FUNCSIG$v)
+  (set_global $~env
+   (i32.const 56)
+  )
   (call_indirect (type $iv)
    (i32.const 8)
-   (i32.const 0)
+   (i32.load
+    (get_global $~env)
+   )
+  )
+  (set_global $~env
+   (i32.const 56)
   )
   (call_indirect (type $iv)
    (get_global $std/gc-integration/B.d)
-   (i32.const 0)
+   (i32.load
+    (get_global $~env)
+   )
+  )
+  (set_global $~env
+   (i32.const 56)
   )
   (call_indirect (type $iv)
    (get_global $std/gc-integration/a_ref)
-   (i32.const 0)
+   (i32.load
+    (get_global $~env)
+   )
+  )
+  (set_global $~env
+   (i32.const 56)
   )
   (call_indirect (type $iv)
    (get_global $std/gc-integration/b_ref)
-   (i32.const 0)
+   (i32.load
+    (get_global $~env)
+   )
   )
  )
 )
@@ -9,11 +9,13 @@
  (global $std/gc-integration/a_ref (mut i32) (i32.const 24))
  (global $std/gc-integration/b_ref (mut i32) (i32.const 32))
  (global $std/gc-integration/i (mut i32) (i32.const 0))
- (global $HEAP_BASE i32 (i32.const 56))
+ (global $HEAP_BASE i32 (i32.const 64))
+ (global $~env (mut i32) (i32.const 0))
  (table 1 1 anyfunc)
  (elem (i32.const 0) $start~anonymous|0)
  (memory $0 1)
  (data (i32.const 8) "\15\00\00\00s\00t\00d\00/\00g\00c\00-\00i\00n\00t\00e\00g\00r\00a\00t\00i\00o\00n\00.\00t\00s\00")
+ (data (i32.const 56) "\00\00\00\00\00\00\00\00")
  (export "memory" (memory $0))
  (export "table" (table $0))
  (start $start)
@@ -55,7 +57,7 @@
    (get_global $std/gc-integration/B.d)
   )
   (call $~iterateRoots
-   (i32.const 0)
+   (i32.const 56)
   )
   (if
    (i32.eqz
@@ -78,19 +80,47 @@
  (func $~iterateRoots (; 3 ;) (type $iv) (param $0 i32)
   (call_indirect (type $iv)
    (get_global $std/gc-integration/B.c)
-   (get_local $0)
+   (block (result i32)
+    (set_global $~env
+     (get_local $0)
+    )
+    (i32.load
+     (get_global $~env)
+    )
+   )
   )
   (call_indirect (type $iv)
    (get_global $std/gc-integration/B.d)
-   (get_local $0)
+   (block (result i32)
+    (set_global $~env
+     (get_local $0)
+    )
+    (i32.load
+     (get_global $~env)
+    )
+   )
   )
   (call_indirect (type $iv)
    (get_global $std/gc-integration/a_ref)
-   (get_local $0)
+   (block (result i32)
+    (set_global $~env
+     (get_local $0)
+    )
+    (i32.load
+     (get_global $~env)
+    )
+   )
   )
   (call_indirect (type $iv)
    (get_global $std/gc-integration/b_ref)
-   (get_local $0)
+   (block (result i32)
+    (set_global $~env
+     (get_local $0)
+    )
+    (i32.load
+     (get_global $~env)
+    )
+   )
   )
  )
 )
@@ -12,12 +12,20 @@
  (global $~lib/collector/itcm/fromSpace (mut i32) (i32.const 0))
  (global $~lib/collector/itcm/toSpace (mut i32) (i32.const 0))
  (global $~lib/collector/itcm/iter (mut i32) (i32.const 0))
+ (global $~env (mut i32) (i32.const 0))
  (global $~argc (mut i32) (i32.const 0))
  (global $std/gc-object/obj (mut i32) (i32.const 0))
  (global $~started (mut i32) (i32.const 0))
- (table 3 3 anyfunc)
- (elem (i32.const 0) $~lib/collector/itcm/__gc_mark $std/gc-object/Custom~gc $std/gc-object/Base~gc)
- (memory $0 0)
+ (global $RTTI_BASE i32 (i32.const 80))
+ (table 4 4 anyfunc)
+ (elem (i32.const 0) $~lib/collector/itcm/__gc_mark $~lib/env~gc|4 $std/gc-object/Custom~gc $std/gc-object/Base~gc)
+ (memory $0 1)
+ (data (i32.const 16) "0")
+ (data (i32.const 40) "0\00\00\00\00\00\00\00\01")
+ (data (i32.const 64) "0\00\00\00\00\00\00\00\02")
+ (data (i32.const 80) "\07\00\00\00\01\00\00\00\00\00\00\00\06\00\00\00\02\00\00\00\00\00\00\00\06\00\00\00\03\00\00\00\00\00\00\00\06\00\00\00\04")
+ (data (i32.const 132) "\05\00\00\00\04\00\00\00\00\00\00\00\06\00\00\00\00\00\00\00\06\00\00\00\07\00\00\00\06\00\00\00\06")
+ (export "RTTI_BASE" (global $RTTI_BASE))
  (export "memory" (memory $0))
  (export "table" (table $0))
  (export "main" (func $std/gc-object/main))
@@ -243,7 +251,23 @@
    )
   )
  )
- (func $~lib/collector/itcm/ManagedObject#set:color (; 9 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/env~gc|4 (; 9 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return)
+  )
+  (call $~lib/collector/itcm/__gc_mark
+   (get_local $0)
+  )
+  (call $~lib/collector/itcm/__gc_mark
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/collector/itcm/ManagedObject#set:color (; 10 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
   (i32.store
    (get_local $0)
    (i32.or
@@ -257,10 +281,10 @@
    )
   )
  )
- (func $~lib/allocator/arena/__memory_free (; 10 ;) (; has Stack IR ;) (type $FUNCSIG$v)
+ (func $~lib/allocator/arena/__memory_free (; 11 ;) (; has Stack IR ;) (type $FUNCSIG$v)
   (nop)
  )
- (func $~lib/collector/itcm/step (; 11 ;) (; has Stack IR ;) (type $v)
+ (func $~lib/collector/itcm/step (; 12 ;) (; has Stack IR ;) (type $v)
   (local $0 i32)
   (block $break|0
    (block $case3|0
@@ -345,13 +369,18 @@
       (set_global $~argc
        (i32.const 1)
       )
+      (set_global $~env
+       (i32.load offset=8
+        (get_local $0)
+       )
+      )
       (call_indirect (type $iv)
        (i32.add
         (get_local $0)
         (i32.const 16)
        )
-       (i32.load offset=8
-        (get_local $0)
+       (i32.load
+        (get_global $~env)
        )
       )
      )
@@ -409,7 +438,7 @@
      (if
       (i32.ge_u
        (get_local $0)
-       (i32.const 8)
+       (i32.const 168)
       )
       (call $~lib/allocator/arena/__memory_free)
      )
@@ -425,7 +454,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/__gc_allocate (; 12 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+ (func $~lib/collector/itcm/__gc_allocate (; 13 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
   (local $0 i32)
   (call $~lib/collector/itcm/step)
   (i32.store offset=8
@@ -434,7 +463,11 @@
      (i32.const 24)
     )
    )
-   (i32.const 1)
+   (i32.const 72)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (i32.const 0)
   )
   (call $~lib/collector/itcm/ManagedObject#set:color
    (get_local $0)
@@ -449,7 +482,7 @@
    (i32.const 16)
   )
  )
- (func $std/gc-object/Base~gc (; 13 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+ (func $std/gc-object/Base~gc (; 14 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
   (if
    (i32.eqz
     (get_local $0)
@@ -460,7 +493,7 @@
    (get_local $0)
   )
  )
- (func $std/gc-object/Custom~gc (; 14 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+ (func $std/gc-object/Custom~gc (; 15 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
   (if
    (i32.eqz
     (get_local $0)
@@ -469,7 +502,7 @@
   )
   (call_indirect (type $iv)
    (get_local $0)
-   (i32.const 2)
+   (i32.const 3)
   )
   (call $~lib/collector/itcm/__gc_mark
    (i32.load
@@ -482,7 +515,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/__gc_collect (; 15 ;) (; has Stack IR ;) (type $v)
+ (func $~lib/collector/itcm/__gc_collect (; 16 ;) (; has Stack IR ;) (type $v)
   (local $0 i32)
   (block $break|0
    (block $case1|0
@@ -516,10 +549,10 @@
    )
   )
  )
- (func $~lib/gc/gc.collect (; 16 ;) (; has Stack IR ;) (type $v)
+ (func $~lib/gc/gc.collect (; 17 ;) (; has Stack IR ;) (type $v)
   (call $~lib/collector/itcm/__gc_collect)
  )
- (func $std/gc-object/main (; 17 ;) (; has Stack IR ;) (type $v)
+ (func $std/gc-object/main (; 18 ;) (; has Stack IR ;) (type $v)
   (if
    (i32.eqz
     (get_global $~started)
@@ -532,21 +565,25 @@
    )
   )
  )
- (func $start (; 18 ;) (; has Stack IR ;) (type $v)
+ (func $start (; 19 ;) (; has Stack IR ;) (type $v)
   (local $0 i32)
   (set_global $~lib/allocator/arena/startOffset
-   (i32.const 8)
+   (i32.const 168)
   )
   (set_global $~lib/allocator/arena/offset
    (get_global $~lib/allocator/arena/startOffset)
   )
-  (set_global $~lib/collector/itcm/state
-   (i32.const 0)
-  )
   (i32.store
-   (tee_local $0
-    (call $~lib/collector/itcm/__gc_allocate)
+   (i32.sub
+    (tee_local $0
+     (call $~lib/collector/itcm/__gc_allocate)
+    )
+    (i32.const 4)
    )
+   (i32.const 7)
+  )
+  (i32.store
+   (get_local $0)
    (i32.const 0)
   )
   (i32.store offset=4
@@ -567,10 +604,15 @@
   )
   (call $~lib/gc/gc.collect)
  )
- (func $~iterateRoots (; 19 ;) (; has Stack IR ;) (type $FUNCSIG$v)
+ (func $~iterateRoots (; 20 ;) (; has Stack IR ;) (type $FUNCSIG$v)
+  (set_global $~env
+   (i32.const 24)
+  )
   (call_indirect (type $iv)
    (get_global $std/gc-object/obj)
-   (i32.const 0)
+   (i32.load
+    (get_global $~env)
+   )
   )
  )
 )
@@ -21,13 +21,20 @@
  (global $~lib/collector/itcm/fromSpace (mut i32) (i32.const 0))
  (global $~lib/collector/itcm/toSpace (mut i32) (i32.const 0))
  (global $~lib/collector/itcm/iter (mut i32) (i32.const 0))
+ (global $~env (mut i32) (i32.const 0))
  (global $~argc (mut i32) (i32.const 0))
  (global $std/gc-object/obj (mut i32) (i32.const 0))
  (global $~started (mut i32) (i32.const 0))
- (global $HEAP_BASE i32 (i32.const 8))
- (table 3 3 anyfunc)
- (elem (i32.const 0) $~lib/collector/itcm/__gc_mark $std/gc-object/Custom~gc $std/gc-object/Base~gc)
- (memory $0 0)
+ (global $RTTI_BASE i32 (i32.const 80))
+ (global $HEAP_BASE i32 (i32.const 168))
+ (table 4 4 anyfunc)
+ (elem (i32.const 0) $~lib/collector/itcm/__gc_mark $~lib/env~gc|4 $std/gc-object/Custom~gc $std/gc-object/Base~gc)
+ (memory $0 1)
+ (data (i32.const 8) "\00\00\00\00\00\00\00\000\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 32) "\00\00\00\00\00\00\00\000\00\00\00\00\00\00\00\01\00\00\00\00\00\00\00")
+ (data (i32.const 56) "\00\00\00\00\00\00\00\000\00\00\00\00\00\00\00\02\00\00\00\00\00\00\00")
+ (data (i32.const 80) "\07\00\00\00\01\00\00\00\00\00\00\00\06\00\00\00\02\00\00\00\00\00\00\00\06\00\00\00\03\00\00\00\00\00\00\00\06\00\00\00\04\00\00\00\00\00\00\00\00\00\00\00\05\00\00\00\04\00\00\00\00\00\00\00\06\00\00\00\00\00\00\00\06\00\00\00\07\00\00\00\06\00\00\00\06\00\00\00")
+ (export "RTTI_BASE" (global $RTTI_BASE))
  (export "memory" (memory $0))
  (export "table" (table $0))
  (export "main" (func $std/gc-object/main))
@@ -293,7 +300,23 @@
    )
   )
  )
- (func $~lib/collector/itcm/ManagedObject#set:color (; 9 ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/env~gc|4 (; 9 ;) (type $iv) (param $0 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return)
+  )
+  (call $~lib/collector/itcm/__gc_mark
+   (get_local $0)
+  )
+  (call $~lib/collector/itcm/__gc_mark
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/collector/itcm/ManagedObject#set:color (; 10 ;) (type $iiv) (param $0 i32) (param $1 i32)
   (i32.store
    (get_local $0)
    (i32.or
@@ -310,10 +333,10 @@
    )
   )
  )
- (func $~lib/allocator/arena/__memory_free (; 10 ;) (type $iv) (param $0 i32)
+ (func $~lib/allocator/arena/__memory_free (; 11 ;) (type $iv) (param $0 i32)
   (nop)
  )
- (func $~lib/collector/itcm/step (; 11 ;) (type $v)
+ (func $~lib/collector/itcm/step (; 12 ;) (type $v)
   (local $0 i32)
   (local $1 i32)
   (block $break|0
@@ -327,25 +350,25 @@
        (br_if $case0|0
         (i32.eq
          (get_local $1)
-         (get_global $~lib/collector/itcm/State.INIT)
+         (i32.const 0)
         )
        )
        (br_if $case1|0
         (i32.eq
          (get_local $1)
-         (get_global $~lib/collector/itcm/State.IDLE)
+         (i32.const 1)
         )
        )
        (br_if $case2|0
         (i32.eq
          (get_local $1)
-         (get_global $~lib/collector/itcm/State.MARK)
+         (i32.const 2)
         )
        )
        (br_if $case3|0
         (i32.eq
          (get_local $1)
-         (get_global $~lib/collector/itcm/State.SWEEP)
+         (i32.const 3)
         )
        )
        (br $break|0)
@@ -393,16 +416,16 @@
         (get_global $~lib/collector/itcm/toSpace)
        )
        (set_global $~lib/collector/itcm/state
-        (get_global $~lib/collector/itcm/State.IDLE)
+        (i32.const 1)
        )
       )
      )
      (block
       (call $~iterateRoots
-       (i32.const 0)
+       (i32.const 24)
       )
       (set_global $~lib/collector/itcm/state
-       (get_global $~lib/collector/itcm/State.MARK)
+       (i32.const 2)
       )
       (br $break|0)
      )
@@ -438,14 +461,21 @@
           (get_global $~lib/collector/itcm/HEADER_SIZE)
          )
         )
-        (i32.load offset=8
-         (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (i32.load offset=8
+           (get_local $0)
+          )
+         )
+         (i32.load
+          (get_global $~env)
+         )
         )
        )
       )
       (block
        (call $~iterateRoots
-        (i32.const 0)
+        (i32.const 24)
        )
        (set_local $0
         (call $~lib/collector/itcm/ManagedObject#get:next
@@ -478,7 +508,7 @@
           )
          )
          (set_global $~lib/collector/itcm/state
-          (get_global $~lib/collector/itcm/State.SWEEP)
+          (i32.const 3)
          )
         )
        )
@@ -522,7 +552,7 @@
        (get_global $~lib/collector/itcm/toSpace)
       )
       (set_global $~lib/collector/itcm/state
-       (get_global $~lib/collector/itcm/State.IDLE)
+       (i32.const 1)
       )
      )
     )
@@ -530,7 +560,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/__gc_allocate (; 12 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/collector/itcm/__gc_allocate (; 13 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (local $3 i32)
   (if
@@ -563,6 +593,10 @@
    (get_local $3)
    (get_local $1)
   )
+  (i32.store offset=12
+   (get_local $3)
+   (i32.const 0)
+  )
   (call $~lib/collector/itcm/ManagedObject#set:color
    (get_local $3)
    (get_global $~lib/collector/itcm/white)
@@ -578,7 +612,7 @@
    )
   )
  )
- (func $std/gc-object/Base~gc (; 13 ;) (type $iv) (param $0 i32)
+ (func $std/gc-object/Base~gc (; 14 ;) (type $iv) (param $0 i32)
   (if
    (i32.eqz
     (get_local $0)
@@ -589,7 +623,7 @@
    (get_local $0)
   )
  )
- (func $std/gc-object/Custom~gc (; 14 ;) (type $iv) (param $0 i32)
+ (func $std/gc-object/Custom~gc (; 15 ;) (type $iv) (param $0 i32)
   (if
    (i32.eqz
     (get_local $0)
@@ -598,7 +632,7 @@
   )
   (call_indirect (type $iv)
    (get_local $0)
-   (i32.const 2)
+   (i32.const 3)
   )
   (call $~lib/collector/itcm/__gc_mark
    (i32.load
@@ -611,7 +645,7 @@
    )
   )
  )
- (func $~lib/collector/itcm/__gc_collect (; 15 ;) (type $v)
+ (func $~lib/collector/itcm/__gc_collect (; 16 ;) (type $v)
   (local $0 i32)
   (block $break|0
    (block $case1|0
@@ -622,13 +656,13 @@
      (br_if $case0|0
       (i32.eq
        (get_local $0)
-       (get_global $~lib/collector/itcm/State.INIT)
+       (i32.const 0)
       )
      )
      (br_if $case1|0
       (i32.eq
        (get_local $0)
-       (get_global $~lib/collector/itcm/State.IDLE)
+       (i32.const 1)
       )
      )
      (br $break|0)
@@ -641,7 +675,7 @@
     (if
      (i32.ne
       (get_global $~lib/collector/itcm/state)
-      (get_global $~lib/collector/itcm/State.IDLE)
+      (i32.const 1)
      )
      (block
       (call $~lib/collector/itcm/step)
@@ -651,11 +685,11 @@
    )
   )
  )
- (func $~lib/gc/gc.collect (; 16 ;) (type $v)
+ (func $~lib/gc/gc.collect (; 17 ;) (type $v)
   (call $~lib/collector/itcm/__gc_collect)
   (return)
  )
- (func $std/gc-object/main (; 17 ;) (type $v)
+ (func $std/gc-object/main (; 18 ;) (type $v)
   (if
    (i32.eqz
     (get_global $~started)
@@ -668,8 +702,9 @@
    )
   )
  )
- (func $start (; 18 ;) (type $v)
+ (func $start (; 19 ;) (type $v)
   (local $0 i32)
+  (local $1 i32)
   (set_global $~lib/allocator/arena/startOffset
    (i32.and
     (i32.add
@@ -685,15 +720,23 @@
   (set_global $~lib/allocator/arena/offset
    (get_global $~lib/allocator/arena/startOffset)
   )
-  (set_global $~lib/collector/itcm/state
-   (get_global $~lib/collector/itcm/State.INIT)
-  )
   (set_global $std/gc-object/obj
    (block (result i32)
     (set_local $0
-     (call $~lib/collector/itcm/__gc_allocate
-      (i32.const 8)
-      (i32.const 1)
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $1
+         (call $~lib/collector/itcm/__gc_allocate
+          (i32.const 8)
+          (i32.const 72)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 7)
+      )
+      (get_local $1)
      )
     )
     (i32.store
@@ -718,10 +761,17 @@
   )
   (call $~lib/gc/gc.collect)
  )
- (func $~iterateRoots (; 19 ;) (type $iv) (param $0 i32)
+ (func $~iterateRoots (; 20 ;) (type $iv) (param $0 i32)
   (call_indirect (type $iv)
    (get_global $std/gc-object/obj)
-   (get_local $0)
+   (block (result i32)
+    (set_global $~env
+     (get_local $0)
+    )
+    (i32.load
+     (get_global $~env)
+    )
+   )
   )
  )
 )
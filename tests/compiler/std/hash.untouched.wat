@@ -6,8 +6,30 @@
  (global $~lib/internal/allocator/AL_SIZE i32 (i32.const 8))
  (global $~lib/internal/allocator/AL_MASK i32 (i32.const 7))
  (global $~lib/internal/allocator/MAX_SIZE_32 i32 (i32.const 1073741824))
+ (global $~lib/internal/arraybuffer/HEADER_SIZE i32 (i32.const 8))
+ (global $~lib/internal/arraybuffer/MAX_BLENGTH i32 (i32.const 1073741816))
+ (global $~lib/internal/dtoa/POW5_INV_BITCOUNT i32 (i32.const 125))
+ (global $~lib/internal/dtoa/POW5_BITCOUNT i32 (i32.const 125))
+ (global $~lib/internal/dtoa/POW5_INV_BITCOUNT32 i32 (i32.const 61))
+ (global $~lib/internal/dtoa/POW5_BITCOUNT32 i32 (i32.const 61))
+ (global $~lib/internal/dtoa/_hi (mut i64) (i64.const 0))
+ (global $~lib/internal/dtoa/_output (mut i64) (i64.const 0))
+ (global $~lib/internal/dtoa/_exp10 (mut i32) (i32.const 0))
+ (global $~lib/internal/dtoa/BIG_LIMBS i32 (i32.const 40))
+ (global $~lib/internal/dtoa/BIG_SIZE i32 (i32.const 164))
+ (global $~lib/internal/dtoa/_k (mut i32) (i32.const 0))
+ (global $~lib/internal/encoding/REPLACEMENT_CHARACTER i32 (i32.const 65533))
  (global $~lib/internal/string/HEADER_SIZE i32 (i32.const 4))
  (global $~lib/internal/string/MAX_LENGTH i32 (i32.const 536870910))
+ (global $~lib/internal/string/HANGUL_SBASE i32 (i32.const 44032))
+ (global $~lib/internal/string/HANGUL_LBASE i32 (i32.const 4352))
+ (global $~lib/internal/string/HANGUL_VBASE i32 (i32.const 4449))
+ (global $~lib/internal/string/HANGUL_TBASE i32 (i32.const 4519))
+ (global $~lib/internal/string/HANGUL_LCOUNT i32 (i32.const 19))
+ (global $~lib/internal/string/HANGUL_VCOUNT i32 (i32.const 21))
+ (global $~lib/internal/string/HANGUL_TCOUNT i32 (i32.const 28))
+ (global $~lib/internal/string/HANGUL_NCOUNT i32 (i32.const 588))
+ (global $~lib/internal/string/HANGUL_SCOUNT i32 (i32.const 11172))
  (global $~lib/internal/hash/FNV_OFFSET i32 (i32.const -2128831035))
  (global $~lib/internal/hash/FNV_PRIME i32 (i32.const 16777619))
  (global $Infinity f64 (f64.const inf))
@@ -0,0 +1,110 @@
+import "allocator/arena";
+
+// tokenizer
+
+var tokenizer = new JSONTokenizer(' {"a": [-1.5e2, true]} ');
+assert(tokenizer.next() == JSONToken.BEGIN_OBJECT);
+assert(tokenizer.next() == JSONToken.STRING);
+assert(tokenizer.stringValue == "a");
+assert(tokenizer.next() == JSONToken.COLON);
+assert(tokenizer.next() == JSONToken.BEGIN_ARRAY);
+assert(tokenizer.next() == JSONToken.NUMBER);
+assert(tokenizer.numberValue == -150);
+assert(tokenizer.next() == JSONToken.COMMA);
+assert(tokenizer.next() == JSONToken.TRUE);
+assert(tokenizer.next() == JSONToken.END_ARRAY);
+assert(tokenizer.next() == JSONToken.END_OBJECT);
+assert(tokenizer.position == 22);
+assert(tokenizer.next() == JSONToken.END);
+
+// parse
+
+var value = JSON.parse('{"n": 0.25, "s": "a\\"b\\\\c\\u00e9\\n", "b": false, "z": null, "a": [1, [], {}]}');
+assert(value.type == JSONType.OBJECT);
+assert((<JSONValue>value.get("n")).asNumber() == 0.25);
+assert((<JSONValue>value.get("s")).asString() == "a\"b\\cé\n");
+assert((<JSONValue>value.get("b")).asBool() == false);
+assert((<JSONValue>value.get("z")).isNull);
+assert(value.get("missing") === null);
+var array = <JSONValue>value.get("a");
+assert(array.length == 3);
+assert(array.at(0).asNumber() == 1);
+assert(array.at(1).type == JSONType.ARRAY);
+assert(array.at(2).type == JSONType.OBJECT);
+
+assert(JSON.parse("123").asNumber() == 123);
+assert(JSON.parse("-0.5e-1").asNumber() == -0.05);
+assert(JSON.parse(' "x" ').asString() == "x");
+
+// stringify
+
+assert(JSON.stringify(value) == '{"n":0.25,"s":"a\\"b\\\\cé\\n","b":false,"z":null,"a":[1,[],{}]}');
+assert(JSON.stringify(JSONValue.createString("\t\u0001")) == '"\\t\\u0001"');
+assert(JSON.stringify(JSONValue.createNumber(NaN)) == "null");
+assert(JSON.stringify(JSONValue.createNumber(1e21)) == "1e+21");
+assert(JSONValue.createArray().push(JSONValue.createBool(true)).toString() == "[true]");
+
+// serializable classes
+
+@serializable
+class Point {
+  x: i32 = 0;
+  y: f64 = 0;
+}
+
+@serializable
+class Shape {
+  name: string = "shape";
+  visible: bool = false;
+  origin: Point | null = null;
+  points: Point[] = [];
+  tags: Array<string> = [];
+}
+
+@serializable
+class Polygon extends Shape {
+  sides: u8 = 0;
+}
+
+var point = new Point();
+point.x = 1;
+point.y = 0.5;
+
+var polygon = new Polygon();
+polygon.name = "triangle";
+polygon.visible = true;
+polygon.origin = point;
+polygon.points.push(point);
+polygon.points.push(point);
+polygon.tags.push("a");
+polygon.sides = 3;
+
+var text = JSON.stringify(JSON.encode<Polygon>(polygon));
+assert(text == '{"name":"triangle","visible":true,"origin":{"x":1,"y":0.5},"points":[{"x":1,"y":0.5},{"x":1,"y":0.5}],"tags":["a"],"sides":3}');
+
+var decoded = JSON.decode<Polygon>(JSON.parse(text));
+assert(decoded.name == "triangle");
+assert(decoded.visible);
+assert((<Point>decoded.origin).y == 0.5);
+assert(decoded.points.length == 2);
+assert(decoded.points[1].x == 1);
+assert(decoded.tags[0] == "a");
+assert(decoded.sides == 3);
+
+// dispatches to the generated members of the runtime class
+var shape: Shape = decoded;
+assert(JSON.stringify(shape.toJSON()) == text);
+
+// missing keys keep their current value while explicit nulls reset it
+var partial = JSON.decode<Shape>(JSON.parse('{"visible": true, "origin": null}'));
+assert(partial.name == "shape");
+assert(partial.visible);
+assert(partial.origin === null);
+
+// values and arrays of basic types
+assert(JSON.stringify(JSON.encode<i64[]>([1, -2])) == "[1,-2]");
+var floats = JSON.decode<f32[]>(JSON.parse("[0.5]"));
+assert(floats[0] == 0.5);
+var nested = JSON.decode<Array<Array<u8>>>(JSON.parse("[[1],[2,3]]"));
+assert(nested[1][1] == 3);
+assert(JSON.decode<string>(JSON.parse("null")) === null);
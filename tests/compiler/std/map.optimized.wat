@@ -17,17 +17,64 @@
  (type $iFi (func (param i32 f64) (result i32)))
  (type $iFii (func (param i32 f64 i32) (result i32)))
  (type $iFiv (func (param i32 f64 i32)))
- (type $FUNCSIG$i (func (result i32)))
+ (type $iI (func (param i32) (result i64)))
+ (type $if (func (param i32) (result f32)))
+ (type $iF (func (param i32) (result f64)))
  (type $FUNCSIG$vii (func (param i32 i32)))
  (type $FUNCSIG$iii (func (param i32 i32) (result i32)))
+ (type $FUNCSIG$i (func (result i32)))
+ (type $FUNCSIG$iji (func (param i64 i32) (result i32)))
+ (type $FUNCSIG$ifi (func (param f32 i32) (result i32)))
+ (type $FUNCSIG$idi (func (param f64 i32) (result i32)))
  (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
  (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
  (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $~env (mut i32) (i32.const 0))
+ (global $~argc (mut i32) (i32.const 0))
+ (global $RTTI_BASE i32 (i32.const 176))
+ (table 10 10 anyfunc)
+ (elem (i32.const 0) $std/map/test<i8,i32>~anonymous|0 $std/map/test<u8,i32>~anonymous|1 $std/map/test<i16,i32>~anonymous|2 $std/map/test<u16,i32>~anonymous|3 $std/map/test<i32,i32>~anonymous|4 $std/map/test<i32,i32>~anonymous|4 $std/map/test<i64,i32>~anonymous|6 $std/map/test<i64,i32>~anonymous|6 $std/map/test<f32,i32>~anonymous|8 $std/map/test<f64,i32>~anonymous|9)
  (memory $0 1)
  (data (i32.const 8) "\13\00\00\00~\00l\00i\00b\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s")
  (data (i32.const 56) "\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s")
  (data (i32.const 120) "\n\00\00\00s\00t\00d\00/\00m\00a\00p\00.\00t\00s")
+ (data (i32.const 144) "\0b\00\00\00~\00l\00i\00b\00/\00m\00a\00p\00.\00t\00s")
+ (data (i32.const 176) "\84\00\00\00\01")
+ (data (i32.const 192) "\02")
+ (data (i32.const 204) "\03\00\00\00\00\00\00\00\04\00\00\00\04")
+ (data (i32.const 228) "\05")
+ (data (i32.const 240) "\06\00\00\00\00\00\00\00\04\00\00\00\07\00\00\00\06\00\00\00\04\00\00\00\08\00\00\00\07\00\00\00\04\00\00\00\t\00\00\00\08\00\00\00\04\00\00\00\n\00\00\00\00\00\00\00\04\00\00\00\0b\00\00\00\n\00\00\00\04\00\00\00\0c\00\00\00\0b\00\00\00\04\00\00\00\0d\00\00\00\0c\00\00\00\04\00\00\00\0e")
+ (data (i32.const 348) "\0f\00\00\00\00\00\00\00\04\00\00\00\10\00\00\00\0f\00\00\00\04\00\00\00\11\00\00\00\10\00\00\00\04\00\00\00\12\00\00\00\11\00\00\00\04\00\00\00\13")
+ (data (i32.const 408) "\14")
+ (data (i32.const 420) "\15\00\00\00\00\00\00\00\04\00\00\00\16\00\00\00\15\00\00\00\04\00\00\00\17\00\00\00\16\00\00\00\04\00\00\00\18\00\00\00\17\00\00\00\04\00\00\00\19\00\00\00\0b\00\00\00\04\00\00\00\1a\00\00\00\19\00\00\00\04\00\00\00\1b")
+ (data (i32.const 504) "\1c\00\00\00\00\00\00\00\04\00\00\00\1d\00\00\00\1c\00\00\00\04\00\00\00\1e\00\00\00\1d\00\00\00\04\00\00\00\1f\00\00\00\1e\00\00\00\04\00\00\00 ")
+ (data (i32.const 564) "!")
+ (data (i32.const 576) "\"\00\00\00\00\00\00\00\04\00\00\00#\00\00\00\"\00\00\00\04\00\00\00$\00\00\00#\00\00\00\04\00\00\00%\00\00\00$\00\00\00\04\00\00\00&\00\00\00\0b\00\00\00\04\00\00\00\'\00\00\00&\00\00\00\04\00\00\00(")
+ (data (i32.const 660) ")\00\00\00\00\00\00\00\04\00\00\00*\00\00\00)\00\00\00\04\00\00\00+\00\00\00*\00\00\00\04\00\00\00,\00\00\00+\00\00\00\04\00\00\00-")
+ (data (i32.const 720) ".")
+ (data (i32.const 732) "/\00\00\00\00\00\00\00\04\00\00\000\00\00\00/\00\00\00\04\00\00\001\00\00\000\00\00\00\04\00\00\002\00\00\001\00\00\00\04\00\00\003\00\00\00\0b\00\00\00\04\00\00\004\00\00\003\00\00\00\04\00\00\005")
+ (data (i32.const 816) "6\00\00\00\00\00\00\00\04\00\00\007\00\00\006\00\00\00\04\00\00\008\00\00\007\00\00\00\04\00\00\009\00\00\008\00\00\00\04\00\00\00:")
+ (data (i32.const 876) ";")
+ (data (i32.const 888) "<\00\00\00\0b\00\00\00\04\00\00\00=\00\00\00<\00\00\00\04\00\00\00>\00\00\00<\00\00\00\04\00\00\00?")
+ (data (i32.const 936) "@\00\00\00\00\00\00\00\04\00\00\00A\00\00\00@\00\00\00\04\00\00\00B\00\00\00A\00\00\00\04\00\00\00C\00\00\00B\00\00\00\04\00\00\00D")
+ (data (i32.const 996) "E")
+ (data (i32.const 1008) "F\00\00\00\00\00\00\00\04\00\00\00G\00\00\00F\00\00\00\04\00\00\00H\00\00\00G\00\00\00\04\00\00\00I\00\00\00H\00\00\00\04\00\00\00J\00\00\00\0b\00\00\00\04\00\00\00K\00\00\00J\00\00\00\04\00\00\00L")
+ (data (i32.const 1092) "M\00\00\00\00\00\00\00\04\00\00\00N\00\00\00M\00\00\00\04\00\00\00O\00\00\00N\00\00\00\04\00\00\00P\00\00\00O\00\00\00\04\00\00\00Q")
+ (data (i32.const 1152) "R")
+ (data (i32.const 1164) "S\00\00\00\00\00\00\00\04\00\00\00T\00\00\00S\00\00\00\04\00\00\00U\00\00\00T\00\00\00\04\00\00\00V\00\00\00U\00\00\00\04\00\00\00W\00\00\00\0b\00\00\00\04\00\00\00X\00\00\00W\00\00\00\04\00\00\00Y")
+ (data (i32.const 1248) "Z\00\00\00\00\00\00\00\04\00\00\00[\00\00\00Z\00\00\00\04\00\00\00\\\00\00\00[\00\00\00\04\00\00\00]\00\00\00\\\00\00\00\04\00\00\00^")
+ (data (i32.const 1308) "_")
+ (data (i32.const 1320) "`\00\00\00\00\00\00\00\04\00\00\00a\00\00\00`\00\00\00\04\00\00\00b\00\00\00a\00\00\00\04\00\00\00c\00\00\00b\00\00\00\04\00\00\00d\00\00\00\0b\00\00\00\04\00\00\00e\00\00\00d\00\00\00\04\00\00\00f")
+ (data (i32.const 1404) "g\00\00\00\00\00\00\00\04\00\00\00h\00\00\00g\00\00\00\04\00\00\00i\00\00\00h\00\00\00\04\00\00\00j\00\00\00i\00\00\00\04\00\00\00k")
+ (data (i32.const 1464) "l")
+ (data (i32.const 1476) "m\00\00\00\00\00\00\00\04\00\00\00n\00\00\00m\00\00\00\04\00\00\00o\00\00\00n\00\00\00\04\00\00\00p\00\00\00o\00\00\00\04\00\00\00q\00\00\00\0b\00\00\00\04\00\00\00r\00\00\00q\00\00\00\04\00\00\00s")
+ (data (i32.const 1560) "t\00\00\00\00\00\00\00\04\00\00\00u\00\00\00t\00\00\00\04\00\00\00v\00\00\00u\00\00\00\04\00\00\00w\00\00\00v\00\00\00\04\00\00\00x")
+ (data (i32.const 1620) "y")
+ (data (i32.const 1632) "z\00\00\00\00\00\00\00\04\00\00\00{\00\00\00z\00\00\00\04\00\00\00|\00\00\00{\00\00\00\04\00\00\00}\00\00\00|\00\00\00\04\00\00\00~\00\00\00\0b\00\00\00\04\00\00\00\7f\00\00\00~\00\00\00\04\00\00\00\80")
+ (data (i32.const 1716) "\81\00\00\00\00\00\00\00\04\00\00\00\82\00\00\00\81\00\00\00\04\00\00\00\83\00\00\00\82\00\00\00\04\00\00\00\84\00\00\00\83\00\00\00\04")
+ (export "RTTI_BASE" (global $RTTI_BASE))
  (export "memory" (memory $0))
+ (export "table" (table $0))
  (start $start)
  (func $~lib/allocator/arena/__memory_allocate (; 1 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
@@ -114,9 +161,9 @@
   )
   (get_local $1)
  )
- (func $~lib/memory/memory.allocate (; 2 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+ (func $~lib/memory/memory.allocate (; 2 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (call $~lib/allocator/arena/__memory_allocate
-   (i32.const 24)
+   (get_local $0)
   )
  )
  (func $~lib/internal/arraybuffer/computeSize (; 3 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
@@ -542,7 +589,9 @@
   (local $0 i32)
   (i32.store
    (tee_local $0
-    (call $~lib/memory/memory.allocate)
+    (call $~lib/memory/memory.allocate
+     (i32.const 24)
+    )
    )
    (i32.const 0)
   )
@@ -1099,9 +1148,236 @@
   )
   (i32.const 1)
  )
- (func $std/map/test<i8,i32> (; 17 ;) (; has Stack IR ;) (type $v)
+ (func $~lib/map/Map<i8,i32>#keys (; 17 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 9)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/iterator/IterableIterator<i8>#__iterator (; 18 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/map/Map<i8,i32>#values (; 19 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 13)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<i8,i32>#entries (; 20 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 18)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<i8,i32>#__iterator (; 21 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/map/Map<i8,i32>#entries
+   (get_local $0)
+  )
+ )
+ (func $std/map/test<i8,i32>~anonymous|0 (; 22 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (if
+   (i32.ne
+    (get_local $0)
+    (i32.add
+     (i32.shr_s
+      (i32.shl
+       (get_local $1)
+       (i32.const 24)
+      )
+      (i32.const 24)
+     )
+     (i32.const 20)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 68)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (i32.add
+    (i32.load offset=4
+     (get_local $3)
+    )
+    (i32.const 1)
+   )
+  )
+ )
+ (func $~lib/map/Map<i8,i32>#forEach (; 23 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (i32.load offset=16
+       (get_local $0)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (i32.and
+       (i32.load offset=8
+        (tee_local $3
+         (i32.add
+          (i32.add
+           (i32.load offset=8
+            (get_local $0)
+           )
+           (i32.const 8)
+          )
+          (i32.mul
+           (get_local $2)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (block
+      (set_global $~argc
+       (i32.const 3)
+      )
+      (set_local $4
+       (i32.load offset=4
+        (get_local $3)
+       )
+      )
+      (set_local $3
+       (i32.load8_s
+        (get_local $3)
+       )
+      )
+      (set_global $~env
+       (get_local $1)
+      )
+      (call_indirect (type $iiiv)
+       (get_local $4)
+       (get_local $3)
+       (get_local $0)
+       (i32.load
+        (get_global $~env)
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $std/map/test<i8,i32> (; 24 ;) (; has Stack IR ;) (type $v)
   (local $0 i32)
   (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
   (set_local $1
    (call $~lib/map/Map<i8,i32>#constructor)
   )
@@ -1565,659 +1841,315 @@
     (unreachable)
    )
   )
-  (call $~lib/map/Map<i8,i32>#clear
-   (get_local $1)
-  )
-  (if
-   (call $~lib/map/Map<i8,i32>#get:size
-    (get_local $1)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 46)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
   )
- )
- (func $~lib/map/Map<u8,i32>#has (; 18 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.ne
-   (call $~lib/map/Map<i8,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (call $~lib/internal/hash/hash8
-     (i32.and
+  (block $break|4
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<i8,i32>#keys
       (get_local $1)
-      (i32.const 255)
      )
     )
    )
-   (i32.const 0)
-  )
- )
- (func $~lib/map/Map<u8,i32>#rehash (; 19 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (set_local $4
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $2
-      (i32.add
-       (get_local $1)
-       (i32.const 1)
-      )
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<i8>#get:done|virtual
+      (get_local $0)
      )
-     (i32.const 2)
     )
-    (i32.const 0)
-   )
-  )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.mul
-     (tee_local $7
-      (i32.trunc_s/f64
-       (f64.mul
-        (f64.convert_s/i32
-         (get_local $2)
-        )
-        (f64.const 2.6666666666666665)
-       )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 5)
       )
      )
-     (i32.const 12)
+     (get_local $2)
     )
-    (i32.const 1)
-   )
-  )
-  (set_local $8
-   (i32.add
-    (tee_local $3
-     (i32.add
-      (i32.load offset=8
-       (get_local $0)
-      )
-      (i32.const 8)
-     )
+    (i32.store8 offset=4
+     (get_local $3)
+     (i32.const 0)
     )
-    (i32.mul
-     (i32.load offset=16
+    (i32.store8 offset=4
+     (get_local $3)
+     (call $~lib/iterator/Iterator<i8>#next|virtual
       (get_local $0)
      )
-     (i32.const 12)
-    )
-   )
-  )
-  (set_local $2
-   (i32.add
-    (get_local $5)
-    (i32.const 8)
-   )
-  )
-  (loop $continue|0
-   (if
-    (i32.ne
-     (get_local $3)
-     (get_local $8)
     )
-    (block
-     (if
-      (i32.eqz
-       (i32.and
-        (i32.load offset=8
-         (get_local $3)
-        )
-        (i32.const 1)
-       )
-      )
-      (block
-       (i32.store8
-        (get_local $2)
-        (i32.load8_u
-         (get_local $3)
-        )
-       )
-       (i32.store offset=4
-        (get_local $2)
-        (i32.load offset=4
-         (get_local $3)
-        )
-       )
-       (i32.store offset=8
-        (get_local $2)
-        (i32.load offset=8
-         (tee_local $6
-          (i32.add
-           (get_local $4)
-           (i32.shl
-            (i32.and
-             (tee_local $6
-              (call $~lib/internal/hash/hash8
-               (i32.load8_u
-                (get_local $3)
-               )
-              )
-             )
-             (get_local $1)
-            )
-            (i32.const 2)
-           )
-          )
-         )
-        )
-       )
-       (i32.store offset=8
-        (get_local $6)
-        (get_local $2)
-       )
-       (set_local $2
-        (i32.add
-         (get_local $2)
-         (i32.const 12)
-        )
+    (if
+     (tee_local $4
+      (i32.ge_s
+       (i32.load8_s offset=4
+        (get_local $3)
        )
+       (i32.const 50)
       )
      )
-     (set_local $3
-      (i32.add
-       (get_local $3)
-       (i32.const 12)
+     (set_local $4
+      (i32.lt_s
+       (i32.load8_s offset=4
+        (get_local $3)
+       )
+       (i32.const 100)
       )
      )
-     (br $continue|0)
     )
-   )
-  )
-  (i32.store
-   (get_local $0)
-   (get_local $4)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $7)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
-   )
-  )
- )
- (func $~lib/map/Map<u8,i32>#set (; 20 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (if
-   (tee_local $3
-    (call $~lib/map/Map<i8,i32>#find
-     (get_local $0)
-     (get_local $1)
-     (tee_local $5
-      (call $~lib/internal/hash/hash8
-       (i32.and
-        (get_local $1)
-        (i32.const 255)
-       )
+    (if
+     (i32.eqz
+      (get_local $4)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 47)
+       (i32.const 4)
       )
+      (unreachable)
      )
     )
-   )
-   (i32.store offset=4
-    (get_local $3)
-    (get_local $2)
-   )
-   (block
     (if
-     (i32.eq
-      (i32.load offset=16
-       (get_local $0)
+     (i32.ne
+      (call $~lib/map/Map<i8,i32>#get
+       (get_local $1)
+       (i32.load8_s offset=4
+        (get_local $3)
+       )
       )
-      (i32.load offset=12
-       (get_local $0)
+      (i32.add
+       (i32.load8_s offset=4
+        (get_local $3)
+       )
+       (i32.const 20)
       )
      )
-     (call $~lib/map/Map<u8,i32>#rehash
-      (get_local $0)
-      (tee_local $3
-       (if (result i32)
-        (i32.lt_s
-         (i32.load offset=20
-          (get_local $0)
-         )
-         (i32.trunc_s/f64
-          (f64.mul
-           (f64.convert_s/i32
-            (i32.load offset=12
-             (get_local $0)
-            )
-           )
-           (f64.const 0.75)
-          )
-         )
-        )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 48)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
         (i32.load offset=4
-         (get_local $0)
-        )
-        (i32.or
-         (i32.shl
-          (i32.load offset=4
-           (get_local $0)
-          )
-          (i32.const 1)
-         )
-         (i32.const 1)
+         (get_local $2)
         )
+        (i32.const 1)
        )
       )
+      (br $repeat|4)
      )
     )
-    (set_local $3
-     (i32.load offset=8
-      (get_local $0)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 51)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|5
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<i8,i32>#values
+      (get_local $1)
      )
     )
-    (i32.store offset=16
-     (get_local $0)
-     (i32.add
-      (tee_local $4
-       (i32.load offset=16
-        (get_local $0)
-       )
-      )
-      (i32.const 1)
+   )
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<i32>#get:done|virtual
+      (get_local $0)
      )
     )
-    (i32.store8
+    (i32.store
      (tee_local $3
-      (i32.add
-       (i32.add
-        (get_local $3)
-        (i32.const 8)
-       )
-       (i32.mul
-        (get_local $4)
-        (i32.const 12)
-       )
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
       )
      )
-     (get_local $1)
+     (get_local $2)
     )
     (i32.store offset=4
      (get_local $3)
-     (get_local $2)
+     (i32.const 0)
     )
-    (i32.store offset=20
-     (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
-      )
-      (i32.const 1)
-     )
-    )
-    (i32.store offset=8
+    (i32.store offset=4
      (get_local $3)
-     (i32.load offset=8
-      (tee_local $4
-       (i32.add
-        (i32.load
-         (get_local $0)
-        )
-        (i32.shl
-         (i32.and
-          (get_local $5)
-          (i32.load offset=4
-           (get_local $0)
-          )
-         )
-         (i32.const 2)
-        )
-       )
-      )
+     (call $~lib/iterator/Iterator<i32>#next|virtual
+      (get_local $0)
      )
     )
-    (i32.store offset=8
-     (get_local $4)
-     (get_local $3)
-    )
-   )
-  )
- )
- (func $~lib/map/Map<u8,i32>#get (; 21 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (tee_local $0
-   (if (result i32)
-    (tee_local $0
-     (call $~lib/map/Map<i8,i32>#find
-      (get_local $0)
-      (get_local $1)
-      (call $~lib/internal/hash/hash8
-       (i32.and
-        (get_local $1)
-        (i32.const 255)
+    (if
+     (tee_local $4
+      (i32.ge_s
+       (i32.load offset=4
+        (get_local $3)
        )
+       (i32.const 70)
       )
      )
-    )
-    (i32.load offset=4
-     (get_local $0)
-    )
-    (unreachable)
-   )
-  )
- )
- (func $~lib/map/Map<u8,i32>#delete (; 22 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (if
-   (i32.eqz
-    (tee_local $0
-     (call $~lib/map/Map<i8,i32>#find
-      (tee_local $2
-       (get_local $0)
-      )
-      (get_local $1)
-      (tee_local $0
-       (call $~lib/internal/hash/hash8
-        (i32.and
-         (get_local $1)
-         (i32.const 255)
-        )
+     (set_local $4
+      (i32.lt_s
+       (i32.load offset=4
+        (get_local $3)
        )
+       (i32.const 120)
       )
      )
     )
-   )
-   (return
-    (i32.const 0)
-   )
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (i32.or
-    (i32.load offset=8
-     (get_local $0)
-    )
-    (i32.const 1)
-   )
-  )
-  (i32.store offset=20
-   (get_local $2)
-   (i32.sub
-    (i32.load offset=20
-     (get_local $2)
-    )
-    (i32.const 1)
-   )
-  )
-  (if
-   (tee_local $0
-    (i32.ge_u
-     (i32.add
-      (tee_local $1
-       (i32.shr_u
+    (if
+     (get_local $4)
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
         (i32.load offset=4
          (get_local $2)
         )
         (i32.const 1)
        )
       )
-      (i32.const 1)
+      (br $repeat|5)
      )
-     (select
-      (i32.const 4)
-      (tee_local $0
-       (i32.load offset=20
-        (get_local $2)
-       )
-      )
-      (i32.gt_u
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 53)
        (i32.const 4)
-       (get_local $0)
-      )
-     )
-    )
-   )
-   (set_local $0
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $2)
-     )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $2)
-        )
-       )
-       (f64.const 0.75)
       )
+      (unreachable)
      )
     )
    )
   )
   (if
-   (get_local $0)
-   (call $~lib/map/Map<u8,i32>#rehash
+   (i32.load offset=4
     (get_local $2)
-    (get_local $1)
    )
-  )
-  (i32.const 1)
- )
- (func $std/map/test<u8,i32> (; 23 ;) (; has Stack IR ;) (type $v)
-  (local $0 i32)
-  (local $1 i32)
-  (set_local $1
-   (call $~lib/map/Map<i8,i32>#constructor)
-  )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.ge_u
-      (get_local $0)
-      (i32.const 100)
-     )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 56)
+     (i32.const 2)
     )
-    (if
-     (call $~lib/map/Map<u8,i32>#has
+    (unreachable)
+   )
+  )
+  (block $break|6
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<i8,i32>#entries
       (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 8)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-    )
-    (call $~lib/map/Map<u8,i32>#set
-     (get_local $1)
-     (get_local $0)
-     (i32.add
-      (i32.and
-       (get_local $0)
-       (i32.const 255)
-      )
-      (i32.const 10)
      )
     )
-    (if
-     (i32.eqz
-      (call $~lib/map/Map<u8,i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 10)
-       (i32.const 4)
-      )
-      (unreachable)
+   )
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<KeyValue<i8,i32>>#get:done|virtual
+      (get_local $0)
      )
     )
     (if
      (i32.ne
-      (call $~lib/map/Map<u8,i32>#get
-       (get_local $1)
-       (get_local $0)
+      (i32.load offset=4
+       (tee_local $4
+        (call $~lib/iterator/Iterator<KeyValue<i8,i32>>#next|virtual
+         (get_local $0)
+        )
+       )
       )
       (i32.add
-       (i32.and
-        (get_local $0)
-        (i32.const 255)
+       (i32.load8_s
+        (get_local $4)
        )
-       (i32.const 10)
+       (i32.const 20)
       )
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 11)
+       (i32.const 58)
        (i32.const 4)
       )
       (unreachable)
      )
      (block
-      (set_local $0
+      (i32.store offset=4
+       (get_local $2)
        (i32.add
-        (get_local $0)
+        (i32.load offset=4
+         (get_local $2)
+        )
         (i32.const 1)
        )
       )
-      (br $repeat|0)
+      (br $repeat|6)
      )
     )
    )
   )
   (if
    (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
-     (get_local $1)
+    (i32.load offset=4
+     (get_local $2)
     )
-    (i32.const 100)
+    (i32.const 50)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 13)
+     (i32.const 61)
      (i32.const 2)
     )
     (unreachable)
    )
   )
-  (block $break|1
-   (set_local $0
-    (i32.const 0)
+  (block $break|7
+   (set_local $4
+    (call $~lib/map/Map<i8,i32>#__iterator
+     (get_local $1)
+    )
    )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.ge_u
-      (get_local $0)
-      (i32.const 100)
+   (loop $repeat|7
+    (br_if $break|7
+     (call $~lib/iterator/Iterator<KeyValue<i8,i32>>#get:done|virtual
+      (get_local $4)
      )
     )
     (if
-     (i32.eqz
-      (call $~lib/map/Map<u8,i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 17)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-    )
-    (if
-     (i32.ne
-      (call $~lib/map/Map<u8,i32>#get
-       (get_local $1)
-       (get_local $0)
-      )
-      (i32.add
-       (i32.and
-        (get_local $0)
-        (i32.const 255)
-       )
-       (i32.const 10)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 18)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-    )
-    (call $~lib/map/Map<u8,i32>#set
-     (get_local $1)
-     (get_local $0)
-     (i32.add
-      (i32.and
-       (get_local $0)
-       (i32.const 255)
-      )
-      (i32.const 20)
-     )
-    )
-    (if
-     (i32.eqz
-      (call $~lib/map/Map<u8,i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 20)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-    )
-    (if
-     (i32.ne
-      (call $~lib/map/Map<u8,i32>#get
-       (get_local $1)
-       (get_local $0)
+     (i32.ne
+      (i32.load offset=4
+       (tee_local $0
+        (call $~lib/iterator/Iterator<KeyValue<i8,i32>>#next|virtual
+         (get_local $4)
+        )
+       )
       )
       (i32.add
-       (i32.and
+       (i32.load8_s
         (get_local $0)
-        (i32.const 255)
        )
        (i32.const 20)
       )
@@ -2226,128 +2158,60 @@
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 21)
+       (i32.const 63)
        (i32.const 4)
       )
       (unreachable)
      )
      (block
-      (set_local $0
-       (i32.add
-        (get_local $0)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
         (i32.const 1)
        )
       )
-      (br $repeat|1)
+      (br $repeat|7)
      )
     )
    )
   )
   (if
-   (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
-     (get_local $1)
-    )
-    (i32.const 100)
+   (i32.load offset=4
+    (get_local $2)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 23)
+     (i32.const 66)
      (i32.const 2)
     )
     (unreachable)
    )
   )
-  (block $break|2
-   (set_local $0
-    (i32.const 0)
-   )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.ge_u
-      (get_local $0)
-      (i32.const 50)
-     )
-    )
-    (if
-     (i32.eqz
-      (call $~lib/map/Map<u8,i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 27)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-    )
-    (if
-     (i32.ne
-      (call $~lib/map/Map<u8,i32>#get
-       (get_local $1)
-       (get_local $0)
-      )
-      (i32.add
-       (i32.and
-        (get_local $0)
-        (i32.const 255)
-       )
-       (i32.const 20)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 28)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-    )
-    (drop
-     (call $~lib/map/Map<u8,i32>#delete
-      (get_local $1)
-      (get_local $0)
-     )
-    )
-    (if
-     (call $~lib/map/Map<u8,i32>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 30)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-     (block
-      (set_local $0
-       (i32.add
-        (get_local $0)
-        (i32.const 1)
-       )
-      )
-      (br $repeat|2)
-     )
+  (i32.store
+   (tee_local $0
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
     )
    )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (call $~lib/map/Map<i8,i32>#forEach
+   (get_local $1)
+   (get_local $0)
   )
   (if
    (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
-     (get_local $1)
+    (i32.load offset=4
+     (get_local $2)
     )
     (i32.const 50)
    )
@@ -2355,256 +2219,63 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 32)
+     (i32.const 71)
      (i32.const 2)
     )
     (unreachable)
    )
   )
-  (block $break|3
-   (set_local $0
-    (i32.const 0)
+  (call $~lib/map/Map<i8,i32>#clear
+   (get_local $1)
+  )
+  (if
+   (call $~lib/map/Map<i8,i32>#get:size
+    (get_local $1)
    )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.ge_u
-      (get_local $0)
-      (i32.const 50)
-     )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 75)
+     (i32.const 2)
     )
-    (if
-     (call $~lib/map/Map<u8,i32>#has
+    (unreachable)
+   )
+  )
+ )
+ (func $~lib/map/Map<u8,i32>#has (; 25 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.ne
+   (call $~lib/map/Map<i8,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (call $~lib/internal/hash/hash8
+     (i32.and
       (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 36)
-       (i32.const 4)
-      )
-      (unreachable)
+      (i32.const 255)
      )
     )
-    (call $~lib/map/Map<u8,i32>#set
-     (get_local $1)
-     (get_local $0)
-     (i32.add
-      (i32.and
-       (get_local $0)
-       (i32.const 255)
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/map/Map<u8,i32>#rehash (; 26 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $4
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.shl
+     (tee_local $2
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
       )
-      (i32.const 10)
      )
-    )
-    (if
-     (i32.eqz
-      (call $~lib/map/Map<u8,i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 38)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-    )
-    (drop
-     (call $~lib/map/Map<u8,i32>#delete
-      (get_local $1)
-      (get_local $0)
-     )
-    )
-    (if
-     (call $~lib/map/Map<u8,i32>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 40)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-     (block
-      (set_local $0
-       (i32.add
-        (get_local $0)
-        (i32.const 1)
-       )
-      )
-      (br $repeat|3)
-     )
-    )
-   )
-  )
-  (if
-   (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
-     (get_local $1)
-    )
-    (i32.const 50)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
-  )
-  (call $~lib/map/Map<i8,i32>#clear
-   (get_local $1)
-  )
-  (if
-   (call $~lib/map/Map<i8,i32>#get:size
-    (get_local $1)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 46)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
-  )
- )
- (func $~lib/internal/hash/hash16 (; 24 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
-  (i32.mul
-   (i32.xor
-    (i32.mul
-     (i32.xor
-      (i32.and
-       (get_local $0)
-       (i32.const 255)
-      )
-      (i32.const -2128831035)
-     )
-     (i32.const 16777619)
-    )
-    (i32.shr_u
-     (get_local $0)
-     (i32.const 8)
-    )
-   )
-   (i32.const 16777619)
-  )
- )
- (func $~lib/map/Map<i16,i32>#find (; 25 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
-  (set_local $2
-   (i32.load offset=8
-    (i32.add
-     (i32.load
-      (get_local $0)
-     )
-     (i32.shl
-      (i32.and
-       (get_local $2)
-       (i32.load offset=4
-        (get_local $0)
-       )
-      )
-      (i32.const 2)
-     )
-    )
-   )
-  )
-  (loop $continue|0
-   (if
-    (get_local $2)
-    (block
-     (if
-      (tee_local $0
-       (i32.eqz
-        (i32.and
-         (i32.load offset=8
-          (get_local $2)
-         )
-         (i32.const 1)
-        )
-       )
-      )
-      (set_local $0
-       (i32.eq
-        (i32.load16_u
-         (get_local $2)
-        )
-        (i32.and
-         (get_local $1)
-         (i32.const 65535)
-        )
-       )
-      )
-     )
-     (if
-      (get_local $0)
-      (return
-       (get_local $2)
-      )
-     )
-     (set_local $2
-      (i32.and
-       (i32.load offset=8
-        (get_local $2)
-       )
-       (i32.const -2)
-      )
-     )
-     (br $continue|0)
-    )
-   )
-  )
-  (i32.const 0)
- )
- (func $~lib/map/Map<i16,i32>#has (; 26 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.ne
-   (call $~lib/map/Map<i16,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (call $~lib/internal/hash/hash16
-     (i32.shr_s
-      (i32.shl
-       (get_local $1)
-       (i32.const 16)
-      )
-      (i32.const 16)
-     )
-    )
-   )
-   (i32.const 0)
-  )
- )
- (func $~lib/map/Map<i16,i32>#rehash (; 27 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (set_local $4
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $2
-      (i32.add
-       (get_local $1)
-       (i32.const 1)
-      )
-     )
-     (i32.const 2)
+     (i32.const 2)
     )
     (i32.const 0)
    )
@@ -2668,9 +2339,9 @@
        )
       )
       (block
-       (i32.store16
+       (i32.store8
         (get_local $2)
-        (i32.load16_s
+        (i32.load8_u
          (get_local $3)
         )
        )
@@ -2689,8 +2360,8 @@
            (i32.shl
             (i32.and
              (tee_local $6
-              (call $~lib/internal/hash/hash16
-               (i32.load16_s
+              (call $~lib/internal/hash/hash8
+               (i32.load8_u
                 (get_local $3)
                )
               )
@@ -2748,23 +2419,20 @@
    )
   )
  )
- (func $~lib/map/Map<i16,i32>#set (; 28 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+ (func $~lib/map/Map<u8,i32>#set (; 27 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
   (if
    (tee_local $3
-    (call $~lib/map/Map<i16,i32>#find
+    (call $~lib/map/Map<i8,i32>#find
      (get_local $0)
      (get_local $1)
      (tee_local $5
-      (call $~lib/internal/hash/hash16
-       (i32.shr_s
-        (i32.shl
-         (get_local $1)
-         (i32.const 16)
-        )
-        (i32.const 16)
+      (call $~lib/internal/hash/hash8
+       (i32.and
+        (get_local $1)
+        (i32.const 255)
        )
       )
      )
@@ -2784,7 +2452,7 @@
        (get_local $0)
       )
      )
-     (call $~lib/map/Map<i16,i32>#rehash
+     (call $~lib/map/Map<u8,i32>#rehash
       (get_local $0)
       (tee_local $3
        (if (result i32)
@@ -2835,7 +2503,7 @@
       (i32.const 1)
      )
     )
-    (i32.store16
+    (i32.store8
      (tee_local $3
       (i32.add
        (i32.add
@@ -2891,20 +2559,17 @@
    )
   )
  )
- (func $~lib/map/Map<i16,i32>#get (; 29 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/map/Map<u8,i32>#get (; 28 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (tee_local $0
    (if (result i32)
     (tee_local $0
-     (call $~lib/map/Map<i16,i32>#find
+     (call $~lib/map/Map<i8,i32>#find
       (get_local $0)
       (get_local $1)
-      (call $~lib/internal/hash/hash16
-       (i32.shr_s
-        (i32.shl
-         (get_local $1)
-         (i32.const 16)
-        )
-        (i32.const 16)
+      (call $~lib/internal/hash/hash8
+       (i32.and
+        (get_local $1)
+        (i32.const 255)
        )
       )
      )
@@ -2916,24 +2581,21 @@
    )
   )
  )
- (func $~lib/map/Map<i16,i32>#delete (; 30 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/map/Map<u8,i32>#delete (; 29 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (if
    (i32.eqz
     (tee_local $0
-     (call $~lib/map/Map<i16,i32>#find
+     (call $~lib/map/Map<i8,i32>#find
       (tee_local $2
        (get_local $0)
       )
       (get_local $1)
       (tee_local $0
-       (call $~lib/internal/hash/hash16
-        (i32.shr_s
-         (i32.shl
-          (get_local $1)
-          (i32.const 16)
-         )
-         (i32.const 16)
+       (call $~lib/internal/hash/hash8
+        (i32.and
+         (get_local $1)
+         (i32.const 255)
         )
        )
       )
@@ -3010,29 +2672,250 @@
   )
   (if
    (get_local $0)
-   (call $~lib/map/Map<i16,i32>#rehash
+   (call $~lib/map/Map<u8,i32>#rehash
     (get_local $2)
     (get_local $1)
    )
   )
   (i32.const 1)
  )
- (func $std/map/test<i16,i32> (; 31 ;) (; has Stack IR ;) (type $v)
-  (local $0 i32)
+ (func $~lib/map/Map<u8,i32>#keys (; 30 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
-  (set_local $1
-   (call $~lib/map/Map<i8,i32>#constructor)
-  )
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 24)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<u8,i32>#values (; 31 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 26)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<u8,i32>#entries (; 32 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 31)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<u8,i32>#__iterator (; 33 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/map/Map<u8,i32>#entries
+   (get_local $0)
+  )
+ )
+ (func $std/map/test<u8,i32>~anonymous|1 (; 34 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (if
+   (i32.ne
+    (get_local $0)
+    (i32.add
+     (i32.and
+      (get_local $1)
+      (i32.const 255)
+     )
+     (i32.const 20)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 68)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (i32.add
+    (i32.load offset=4
+     (get_local $3)
+    )
+    (i32.const 1)
+   )
+  )
+ )
+ (func $~lib/map/Map<u8,i32>#forEach (; 35 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
   (block $break|0
    (loop $repeat|0
     (br_if $break|0
      (i32.ge_s
+      (get_local $2)
+      (i32.load offset=16
+       (get_local $0)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (i32.and
+       (i32.load offset=8
+        (tee_local $3
+         (i32.add
+          (i32.add
+           (i32.load offset=8
+            (get_local $0)
+           )
+           (i32.const 8)
+          )
+          (i32.mul
+           (get_local $2)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (block
+      (set_global $~argc
+       (i32.const 3)
+      )
+      (set_local $4
+       (i32.load offset=4
+        (get_local $3)
+       )
+      )
+      (set_local $3
+       (i32.load8_u
+        (get_local $3)
+       )
+      )
+      (set_global $~env
+       (get_local $1)
+      )
+      (call_indirect (type $iiiv)
+       (get_local $4)
+       (get_local $3)
+       (get_local $0)
+       (i32.load
+        (get_global $~env)
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $std/map/test<u8,i32> (; 36 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (set_local $1
+   (call $~lib/map/Map<i8,i32>#constructor)
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_u
       (get_local $0)
       (i32.const 100)
      )
     )
     (if
-     (call $~lib/map/Map<i16,i32>#has
+     (call $~lib/map/Map<u8,i32>#has
       (get_local $1)
       (get_local $0)
      )
@@ -3046,23 +2929,20 @@
       (unreachable)
      )
     )
-    (call $~lib/map/Map<i16,i32>#set
+    (call $~lib/map/Map<u8,i32>#set
      (get_local $1)
      (get_local $0)
      (i32.add
-      (i32.shr_s
-       (i32.shl
-        (get_local $0)
-        (i32.const 16)
-       )
-       (i32.const 16)
+      (i32.and
+       (get_local $0)
+       (i32.const 255)
       )
       (i32.const 10)
      )
     )
     (if
      (i32.eqz
-      (call $~lib/map/Map<i16,i32>#has
+      (call $~lib/map/Map<u8,i32>#has
        (get_local $1)
        (get_local $0)
       )
@@ -3079,17 +2959,14 @@
     )
     (if
      (i32.ne
-      (call $~lib/map/Map<i16,i32>#get
+      (call $~lib/map/Map<u8,i32>#get
        (get_local $1)
        (get_local $0)
       )
       (i32.add
-       (i32.shr_s
-        (i32.shl
-         (get_local $0)
-         (i32.const 16)
-        )
-        (i32.const 16)
+       (i32.and
+        (get_local $0)
+        (i32.const 255)
        )
        (i32.const 10)
       )
@@ -3138,14 +3015,14 @@
    )
    (loop $repeat|1
     (br_if $break|1
-     (i32.ge_s
+     (i32.ge_u
       (get_local $0)
       (i32.const 100)
      )
     )
     (if
      (i32.eqz
-      (call $~lib/map/Map<i16,i32>#has
+      (call $~lib/map/Map<u8,i32>#has
        (get_local $1)
        (get_local $0)
       )
@@ -3162,17 +3039,14 @@
     )
     (if
      (i32.ne
-      (call $~lib/map/Map<i16,i32>#get
+      (call $~lib/map/Map<u8,i32>#get
        (get_local $1)
        (get_local $0)
       )
       (i32.add
-       (i32.shr_s
-        (i32.shl
-         (get_local $0)
-         (i32.const 16)
-        )
-        (i32.const 16)
+       (i32.and
+        (get_local $0)
+        (i32.const 255)
        )
        (i32.const 10)
       )
@@ -3187,23 +3061,20 @@
       (unreachable)
      )
     )
-    (call $~lib/map/Map<i16,i32>#set
+    (call $~lib/map/Map<u8,i32>#set
      (get_local $1)
      (get_local $0)
      (i32.add
-      (i32.shr_s
-       (i32.shl
-        (get_local $0)
-        (i32.const 16)
-       )
-       (i32.const 16)
+      (i32.and
+       (get_local $0)
+       (i32.const 255)
       )
       (i32.const 20)
      )
     )
     (if
      (i32.eqz
-      (call $~lib/map/Map<i16,i32>#has
+      (call $~lib/map/Map<u8,i32>#has
        (get_local $1)
        (get_local $0)
       )
@@ -3220,17 +3091,14 @@
     )
     (if
      (i32.ne
-      (call $~lib/map/Map<i16,i32>#get
+      (call $~lib/map/Map<u8,i32>#get
        (get_local $1)
        (get_local $0)
       )
       (i32.add
-       (i32.shr_s
-        (i32.shl
-         (get_local $0)
-         (i32.const 16)
-        )
-        (i32.const 16)
+       (i32.and
+        (get_local $0)
+        (i32.const 255)
        )
        (i32.const 20)
       )
@@ -3279,14 +3147,14 @@
    )
    (loop $repeat|2
     (br_if $break|2
-     (i32.ge_s
+     (i32.ge_u
       (get_local $0)
       (i32.const 50)
      )
     )
     (if
      (i32.eqz
-      (call $~lib/map/Map<i16,i32>#has
+      (call $~lib/map/Map<u8,i32>#has
        (get_local $1)
        (get_local $0)
       )
@@ -3303,17 +3171,14 @@
     )
     (if
      (i32.ne
-      (call $~lib/map/Map<i16,i32>#get
+      (call $~lib/map/Map<u8,i32>#get
        (get_local $1)
        (get_local $0)
       )
       (i32.add
-       (i32.shr_s
-        (i32.shl
-         (get_local $0)
-         (i32.const 16)
-        )
-        (i32.const 16)
+       (i32.and
+        (get_local $0)
+        (i32.const 255)
        )
        (i32.const 20)
       )
@@ -3329,13 +3194,13 @@
      )
     )
     (drop
-     (call $~lib/map/Map<i16,i32>#delete
+     (call $~lib/map/Map<u8,i32>#delete
       (get_local $1)
       (get_local $0)
      )
     )
     (if
-     (call $~lib/map/Map<i16,i32>#has
+     (call $~lib/map/Map<u8,i32>#has
       (get_local $1)
       (get_local $0)
      )
@@ -3383,13 +3248,13 @@
    )
    (loop $repeat|3
     (br_if $break|3
-     (i32.ge_s
+     (i32.ge_u
       (get_local $0)
       (i32.const 50)
      )
     )
     (if
-     (call $~lib/map/Map<i16,i32>#has
+     (call $~lib/map/Map<u8,i32>#has
       (get_local $1)
       (get_local $0)
      )
@@ -3403,23 +3268,20 @@
       (unreachable)
      )
     )
-    (call $~lib/map/Map<i16,i32>#set
+    (call $~lib/map/Map<u8,i32>#set
      (get_local $1)
      (get_local $0)
      (i32.add
-      (i32.shr_s
-       (i32.shl
-        (get_local $0)
-        (i32.const 16)
-       )
-       (i32.const 16)
+      (i32.and
+       (get_local $0)
+       (i32.const 255)
       )
       (i32.const 10)
      )
     )
     (if
      (i32.eqz
-      (call $~lib/map/Map<i16,i32>#has
+      (call $~lib/map/Map<u8,i32>#has
        (get_local $1)
        (get_local $0)
       )
@@ -3435,13 +3297,13 @@
      )
     )
     (drop
-     (call $~lib/map/Map<i16,i32>#delete
+     (call $~lib/map/Map<u8,i32>#delete
       (get_local $1)
       (get_local $0)
      )
     )
     (if
-     (call $~lib/map/Map<i16,i32>#has
+     (call $~lib/map/Map<u8,i32>#has
       (get_local $1)
       (get_local $0)
      )
@@ -3483,242 +3345,719 @@
     (unreachable)
    )
   )
-  (call $~lib/map/Map<i8,i32>#clear
-   (get_local $1)
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block $break|4
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<u8,i32>#keys
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<u8>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 5)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store8 offset=4
+     (get_local $3)
+     (i32.const 0)
+    )
+    (i32.store8 offset=4
+     (get_local $3)
+     (call $~lib/iterator/Iterator<u8>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (tee_local $4
+      (i32.ge_u
+       (i32.load8_u offset=4
+        (get_local $3)
+       )
+       (i32.const 50)
+      )
+     )
+     (set_local $4
+      (i32.lt_u
+       (i32.load8_u offset=4
+        (get_local $3)
+       )
+       (i32.const 100)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (get_local $4)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 47)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<u8,i32>#get
+       (get_local $1)
+       (i32.load8_u offset=4
+        (get_local $3)
+       )
+      )
+      (i32.add
+       (i32.load8_u offset=4
+        (get_local $3)
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 48)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|4)
+     )
+    )
+   )
   )
   (if
-   (call $~lib/map/Map<i8,i32>#get:size
-    (get_local $1)
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 46)
+     (i32.const 51)
      (i32.const 2)
     )
     (unreachable)
    )
   )
- )
- (func $~lib/map/Map<u16,i32>#has (; 32 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.ne
-   (call $~lib/map/Map<i16,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (call $~lib/internal/hash/hash16
-     (i32.and
+  (block $break|5
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<u8,i32>#values
       (get_local $1)
-      (i32.const 65535)
      )
     )
    )
-   (i32.const 0)
-  )
- )
- (func $~lib/map/Map<u16,i32>#rehash (; 33 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (set_local $4
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $2
-      (i32.add
-       (get_local $1)
-       (i32.const 1)
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<i32>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
       )
      )
-     (i32.const 2)
+     (get_local $2)
     )
-    (i32.const 0)
-   )
-  )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.mul
-     (tee_local $7
-      (i32.trunc_s/f64
-       (f64.mul
-        (f64.convert_s/i32
-         (get_local $2)
-        )
-        (f64.const 2.6666666666666665)
+    (i32.store offset=4
+     (get_local $3)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $3)
+     (call $~lib/iterator/Iterator<i32>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (tee_local $4
+      (i32.ge_s
+       (i32.load offset=4
+        (get_local $3)
        )
+       (i32.const 70)
       )
      )
-     (i32.const 12)
-    )
-    (i32.const 1)
-   )
-  )
-  (set_local $8
-   (i32.add
-    (tee_local $3
-     (i32.add
-      (i32.load offset=8
-       (get_local $0)
+     (set_local $4
+      (i32.lt_s
+       (i32.load offset=4
+        (get_local $3)
+       )
+       (i32.const 120)
       )
-      (i32.const 8)
      )
     )
-    (i32.mul
-     (i32.load offset=16
-      (get_local $0)
+    (if
+     (get_local $4)
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|5)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 53)
+       (i32.const 4)
+      )
+      (unreachable)
      )
-     (i32.const 12)
     )
    )
   )
-  (set_local $2
-   (i32.add
-    (get_local $5)
-    (i32.const 8)
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 56)
+     (i32.const 2)
+    )
+    (unreachable)
    )
   )
-  (loop $continue|0
-   (if
-    (i32.ne
-     (get_local $3)
-     (get_local $8)
+  (block $break|6
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<u8,i32>#entries
+      (get_local $1)
+     )
     )
-    (block
-     (if
-      (i32.eqz
-       (i32.and
-        (i32.load offset=8
-         (get_local $3)
+   )
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<KeyValue<u8,i32>>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (i32.ne
+      (i32.load offset=4
+       (tee_local $4
+        (call $~lib/iterator/Iterator<KeyValue<u8,i32>>#next|virtual
+         (get_local $0)
         )
-        (i32.const 1)
        )
       )
-      (block
-       (i32.store16
-        (get_local $2)
-        (i32.load16_u
-         (get_local $3)
-        )
+      (i32.add
+       (i32.load8_u
+        (get_local $4)
        )
-       (i32.store offset=4
-        (get_local $2)
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 58)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
         (i32.load offset=4
-         (get_local $3)
+         (get_local $2)
         )
+        (i32.const 1)
        )
-       (i32.store offset=8
-        (get_local $2)
-        (i32.load offset=8
-         (tee_local $6
-          (i32.add
-           (get_local $4)
-           (i32.shl
-            (i32.and
-             (tee_local $6
-              (call $~lib/internal/hash/hash16
-               (i32.load16_u
-                (get_local $3)
-               )
-              )
-             )
-             (get_local $1)
-            )
-            (i32.const 2)
-           )
-          )
-         )
+      )
+      (br $repeat|6)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 61)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|7
+   (set_local $4
+    (call $~lib/map/Map<u8,i32>#__iterator
+     (get_local $1)
+    )
+   )
+   (loop $repeat|7
+    (br_if $break|7
+     (call $~lib/iterator/Iterator<KeyValue<u8,i32>>#get:done|virtual
+      (get_local $4)
+     )
+    )
+    (if
+     (i32.ne
+      (i32.load offset=4
+       (tee_local $0
+        (call $~lib/iterator/Iterator<KeyValue<u8,i32>>#next|virtual
+         (get_local $4)
         )
        )
-       (i32.store offset=8
-        (get_local $6)
-        (get_local $2)
+      )
+      (i32.add
+       (i32.load8_u
+        (get_local $0)
        )
-       (set_local $2
-        (i32.add
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 63)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
          (get_local $2)
-         (i32.const 12)
         )
+        (i32.const 1)
        )
       )
+      (br $repeat|7)
      )
-     (set_local $3
-      (i32.add
-       (get_local $3)
-       (i32.const 12)
-      )
-     )
-     (br $continue|0)
     )
    )
   )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 66)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
   (i32.store
-   (get_local $0)
-   (get_local $4)
+   (tee_local $0
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 1)
   )
   (i32.store offset=4
    (get_local $0)
-   (get_local $1)
+   (get_local $2)
   )
-  (i32.store offset=8
+  (call $~lib/map/Map<u8,i32>#forEach
+   (get_local $1)
    (get_local $0)
-   (get_local $5)
   )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $7)
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 71)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
   )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
+  (call $~lib/map/Map<i8,i32>#clear
+   (get_local $1)
+  )
+  (if
+   (call $~lib/map/Map<i8,i32>#get:size
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 75)
+     (i32.const 2)
+    )
+    (unreachable)
    )
   )
  )
- (func $~lib/map/Map<u16,i32>#set (; 34 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (if
-   (tee_local $3
-    (call $~lib/map/Map<i16,i32>#find
+ (func $~lib/internal/hash/hash16 (; 37 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.mul
+   (i32.xor
+    (i32.mul
+     (i32.xor
+      (i32.and
+       (get_local $0)
+       (i32.const 255)
+      )
+      (i32.const -2128831035)
+     )
+     (i32.const 16777619)
+    )
+    (i32.shr_u
      (get_local $0)
-     (get_local $1)
-     (tee_local $5
-      (call $~lib/internal/hash/hash16
-       (i32.and
-        (get_local $1)
-        (i32.const 65535)
+     (i32.const 8)
+    )
+   )
+   (i32.const 16777619)
+  )
+ )
+ (func $~lib/map/Map<i16,i32>#find (; 38 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (set_local $2
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (i32.shl
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
        )
       )
+      (i32.const 2)
      )
     )
    )
-   (i32.store offset=4
-    (get_local $3)
+  )
+  (loop $continue|0
+   (if
     (get_local $2)
-   )
-   (block
-    (if
-     (i32.eq
-      (i32.load offset=16
-       (get_local $0)
+    (block
+     (if
+      (tee_local $0
+       (i32.eqz
+        (i32.and
+         (i32.load offset=8
+          (get_local $2)
+         )
+         (i32.const 1)
+        )
+       )
       )
-      (i32.load offset=12
-       (get_local $0)
+      (set_local $0
+       (i32.eq
+        (i32.load16_u
+         (get_local $2)
+        )
+        (i32.and
+         (get_local $1)
+         (i32.const 65535)
+        )
+       )
       )
      )
-     (call $~lib/map/Map<u16,i32>#rehash
+     (if
       (get_local $0)
-      (tee_local $3
-       (if (result i32)
-        (i32.lt_s
-         (i32.load offset=20
-          (get_local $0)
-         )
-         (i32.trunc_s/f64
+      (return
+       (get_local $2)
+      )
+     )
+     (set_local $2
+      (i32.and
+       (i32.load offset=8
+        (get_local $2)
+       )
+       (i32.const -2)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/map/Map<i16,i32>#has (; 39 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.ne
+   (call $~lib/map/Map<i16,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (call $~lib/internal/hash/hash16
+     (i32.shr_s
+      (i32.shl
+       (get_local $1)
+       (i32.const 16)
+      )
+      (i32.const 16)
+     )
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/map/Map<i16,i32>#rehash (; 40 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $4
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.shl
+     (tee_local $2
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (i32.const 2)
+    )
+    (i32.const 0)
+   )
+  )
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.mul
+     (tee_local $7
+      (i32.trunc_s/f64
+       (f64.mul
+        (f64.convert_s/i32
+         (get_local $2)
+        )
+        (f64.const 2.6666666666666665)
+       )
+      )
+     )
+     (i32.const 12)
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $8
+   (i32.add
+    (tee_local $3
+     (i32.add
+      (i32.load offset=8
+       (get_local $0)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.mul
+     (i32.load offset=16
+      (get_local $0)
+     )
+     (i32.const 12)
+    )
+   )
+  )
+  (set_local $2
+   (i32.add
+    (get_local $5)
+    (i32.const 8)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.ne
+     (get_local $3)
+     (get_local $8)
+    )
+    (block
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=8
+         (get_local $3)
+        )
+        (i32.const 1)
+       )
+      )
+      (block
+       (i32.store16
+        (get_local $2)
+        (i32.load16_s
+         (get_local $3)
+        )
+       )
+       (i32.store offset=4
+        (get_local $2)
+        (i32.load offset=4
+         (get_local $3)
+        )
+       )
+       (i32.store offset=8
+        (get_local $2)
+        (i32.load offset=8
+         (tee_local $6
+          (i32.add
+           (get_local $4)
+           (i32.shl
+            (i32.and
+             (tee_local $6
+              (call $~lib/internal/hash/hash16
+               (i32.load16_s
+                (get_local $3)
+               )
+              )
+             )
+             (get_local $1)
+            )
+            (i32.const 2)
+           )
+          )
+         )
+        )
+       )
+       (i32.store offset=8
+        (get_local $6)
+        (get_local $2)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 12)
+        )
+       )
+      )
+     )
+     (set_local $3
+      (i32.add
+       (get_local $3)
+       (i32.const 12)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $7)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/Map<i16,i32>#set (; 41 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (tee_local $3
+    (call $~lib/map/Map<i16,i32>#find
+     (get_local $0)
+     (get_local $1)
+     (tee_local $5
+      (call $~lib/internal/hash/hash16
+       (i32.shr_s
+        (i32.shl
+         (get_local $1)
+         (i32.const 16)
+        )
+        (i32.const 16)
+       )
+      )
+     )
+    )
+   )
+   (i32.store offset=4
+    (get_local $3)
+    (get_local $2)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
+      )
+     )
+     (call $~lib/map/Map<i16,i32>#rehash
+      (get_local $0)
+      (tee_local $3
+       (if (result i32)
+        (i32.lt_s
+         (i32.load offset=20
+          (get_local $0)
+         )
+         (i32.trunc_s/f64
           (f64.mul
            (f64.convert_s/i32
             (i32.load offset=12
@@ -3817,7 +4156,7 @@
    )
   )
  )
- (func $~lib/map/Map<u16,i32>#get (; 35 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/map/Map<i16,i32>#get (; 42 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (tee_local $0
    (if (result i32)
     (tee_local $0
@@ -3825,9 +4164,12 @@
       (get_local $0)
       (get_local $1)
       (call $~lib/internal/hash/hash16
-       (i32.and
-        (get_local $1)
-        (i32.const 65535)
+       (i32.shr_s
+        (i32.shl
+         (get_local $1)
+         (i32.const 16)
+        )
+        (i32.const 16)
        )
       )
      )
@@ -3839,7 +4181,7 @@
    )
   )
  )
- (func $~lib/map/Map<u16,i32>#delete (; 36 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/map/Map<i16,i32>#delete (; 43 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (if
    (i32.eqz
@@ -3851,14 +4193,17 @@
       (get_local $1)
       (tee_local $0
        (call $~lib/internal/hash/hash16
-        (i32.and
-         (get_local $1)
-         (i32.const 65535)
-        )
-       )
-      )
-     )
-    )
+        (i32.shr_s
+         (i32.shl
+          (get_local $1)
+          (i32.const 16)
+         )
+         (i32.const 16)
+        )
+       )
+      )
+     )
+    )
    )
    (return
     (i32.const 0)
@@ -3930,29 +4275,253 @@
   )
   (if
    (get_local $0)
-   (call $~lib/map/Map<u16,i32>#rehash
+   (call $~lib/map/Map<i16,i32>#rehash
     (get_local $2)
     (get_local $1)
    )
   )
   (i32.const 1)
  )
- (func $std/map/test<u16,i32> (; 37 ;) (; has Stack IR ;) (type $v)
+ (func $~lib/map/Map<i16,i32>#keys (; 44 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 37)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<i16,i32>#values (; 45 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 39)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<i16,i32>#entries (; 46 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 44)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<i16,i32>#__iterator (; 47 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/map/Map<i16,i32>#entries
+   (get_local $0)
+  )
+ )
+ (func $std/map/test<i16,i32>~anonymous|2 (; 48 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (if
+   (i32.ne
+    (get_local $0)
+    (i32.add
+     (i32.shr_s
+      (i32.shl
+       (get_local $1)
+       (i32.const 16)
+      )
+      (i32.const 16)
+     )
+     (i32.const 20)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 68)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (i32.add
+    (i32.load offset=4
+     (get_local $3)
+    )
+    (i32.const 1)
+   )
+  )
+ )
+ (func $~lib/map/Map<i16,i32>#forEach (; 49 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (i32.load offset=16
+       (get_local $0)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (i32.and
+       (i32.load offset=8
+        (tee_local $3
+         (i32.add
+          (i32.add
+           (i32.load offset=8
+            (get_local $0)
+           )
+           (i32.const 8)
+          )
+          (i32.mul
+           (get_local $2)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (block
+      (set_global $~argc
+       (i32.const 3)
+      )
+      (set_local $4
+       (i32.load offset=4
+        (get_local $3)
+       )
+      )
+      (set_local $3
+       (i32.load16_s
+        (get_local $3)
+       )
+      )
+      (set_global $~env
+       (get_local $1)
+      )
+      (call_indirect (type $iiiv)
+       (get_local $4)
+       (get_local $3)
+       (get_local $0)
+       (i32.load
+        (get_global $~env)
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $std/map/test<i16,i32> (; 50 ;) (; has Stack IR ;) (type $v)
   (local $0 i32)
   (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
   (set_local $1
    (call $~lib/map/Map<i8,i32>#constructor)
   )
   (block $break|0
    (loop $repeat|0
     (br_if $break|0
-     (i32.ge_u
+     (i32.ge_s
       (get_local $0)
       (i32.const 100)
      )
     )
     (if
-     (call $~lib/map/Map<u16,i32>#has
+     (call $~lib/map/Map<i16,i32>#has
       (get_local $1)
       (get_local $0)
      )
@@ -3966,20 +4535,23 @@
       (unreachable)
      )
     )
-    (call $~lib/map/Map<u16,i32>#set
+    (call $~lib/map/Map<i16,i32>#set
      (get_local $1)
      (get_local $0)
      (i32.add
-      (i32.and
-       (get_local $0)
-       (i32.const 65535)
+      (i32.shr_s
+       (i32.shl
+        (get_local $0)
+        (i32.const 16)
+       )
+       (i32.const 16)
       )
       (i32.const 10)
      )
     )
     (if
      (i32.eqz
-      (call $~lib/map/Map<u16,i32>#has
+      (call $~lib/map/Map<i16,i32>#has
        (get_local $1)
        (get_local $0)
       )
@@ -3996,14 +4568,17 @@
     )
     (if
      (i32.ne
-      (call $~lib/map/Map<u16,i32>#get
+      (call $~lib/map/Map<i16,i32>#get
        (get_local $1)
        (get_local $0)
       )
       (i32.add
-       (i32.and
-        (get_local $0)
-        (i32.const 65535)
+       (i32.shr_s
+        (i32.shl
+         (get_local $0)
+         (i32.const 16)
+        )
+        (i32.const 16)
        )
        (i32.const 10)
       )
@@ -4052,14 +4627,14 @@
    )
    (loop $repeat|1
     (br_if $break|1
-     (i32.ge_u
+     (i32.ge_s
       (get_local $0)
       (i32.const 100)
      )
     )
     (if
      (i32.eqz
-      (call $~lib/map/Map<u16,i32>#has
+      (call $~lib/map/Map<i16,i32>#has
        (get_local $1)
        (get_local $0)
       )
@@ -4076,14 +4651,17 @@
     )
     (if
      (i32.ne
-      (call $~lib/map/Map<u16,i32>#get
+      (call $~lib/map/Map<i16,i32>#get
        (get_local $1)
        (get_local $0)
       )
       (i32.add
-       (i32.and
-        (get_local $0)
-        (i32.const 65535)
+       (i32.shr_s
+        (i32.shl
+         (get_local $0)
+         (i32.const 16)
+        )
+        (i32.const 16)
        )
        (i32.const 10)
       )
@@ -4098,20 +4676,23 @@
       (unreachable)
      )
     )
-    (call $~lib/map/Map<u16,i32>#set
+    (call $~lib/map/Map<i16,i32>#set
      (get_local $1)
      (get_local $0)
      (i32.add
-      (i32.and
-       (get_local $0)
-       (i32.const 65535)
+      (i32.shr_s
+       (i32.shl
+        (get_local $0)
+        (i32.const 16)
+       )
+       (i32.const 16)
       )
       (i32.const 20)
      )
     )
     (if
      (i32.eqz
-      (call $~lib/map/Map<u16,i32>#has
+      (call $~lib/map/Map<i16,i32>#has
        (get_local $1)
        (get_local $0)
       )
@@ -4128,14 +4709,17 @@
     )
     (if
      (i32.ne
-      (call $~lib/map/Map<u16,i32>#get
+      (call $~lib/map/Map<i16,i32>#get
        (get_local $1)
        (get_local $0)
       )
       (i32.add
-       (i32.and
-        (get_local $0)
-        (i32.const 65535)
+       (i32.shr_s
+        (i32.shl
+         (get_local $0)
+         (i32.const 16)
+        )
+        (i32.const 16)
        )
        (i32.const 20)
       )
@@ -4184,14 +4768,14 @@
    )
    (loop $repeat|2
     (br_if $break|2
-     (i32.ge_u
+     (i32.ge_s
       (get_local $0)
       (i32.const 50)
      )
     )
     (if
      (i32.eqz
-      (call $~lib/map/Map<u16,i32>#has
+      (call $~lib/map/Map<i16,i32>#has
        (get_local $1)
        (get_local $0)
       )
@@ -4208,14 +4792,17 @@
     )
     (if
      (i32.ne
-      (call $~lib/map/Map<u16,i32>#get
+      (call $~lib/map/Map<i16,i32>#get
        (get_local $1)
        (get_local $0)
       )
       (i32.add
-       (i32.and
-        (get_local $0)
-        (i32.const 65535)
+       (i32.shr_s
+        (i32.shl
+         (get_local $0)
+         (i32.const 16)
+        )
+        (i32.const 16)
        )
        (i32.const 20)
       )
@@ -4231,13 +4818,13 @@
      )
     )
     (drop
-     (call $~lib/map/Map<u16,i32>#delete
+     (call $~lib/map/Map<i16,i32>#delete
       (get_local $1)
       (get_local $0)
      )
     )
     (if
-     (call $~lib/map/Map<u16,i32>#has
+     (call $~lib/map/Map<i16,i32>#has
       (get_local $1)
       (get_local $0)
      )
@@ -4285,13 +4872,13 @@
    )
    (loop $repeat|3
     (br_if $break|3
-     (i32.ge_u
+     (i32.ge_s
       (get_local $0)
       (i32.const 50)
      )
     )
     (if
-     (call $~lib/map/Map<u16,i32>#has
+     (call $~lib/map/Map<i16,i32>#has
       (get_local $1)
       (get_local $0)
      )
@@ -4305,20 +4892,23 @@
       (unreachable)
      )
     )
-    (call $~lib/map/Map<u16,i32>#set
+    (call $~lib/map/Map<i16,i32>#set
      (get_local $1)
      (get_local $0)
      (i32.add
-      (i32.and
-       (get_local $0)
-       (i32.const 65535)
+      (i32.shr_s
+       (i32.shl
+        (get_local $0)
+        (i32.const 16)
+       )
+       (i32.const 16)
       )
       (i32.const 10)
      )
     )
     (if
      (i32.eqz
-      (call $~lib/map/Map<u16,i32>#has
+      (call $~lib/map/Map<i16,i32>#has
        (get_local $1)
        (get_local $0)
       )
@@ -4334,13 +4924,13 @@
      )
     )
     (drop
-     (call $~lib/map/Map<u16,i32>#delete
+     (call $~lib/map/Map<i16,i32>#delete
       (get_local $1)
       (get_local $0)
      )
     )
     (if
-     (call $~lib/map/Map<u16,i32>#has
+     (call $~lib/map/Map<i16,i32>#has
       (get_local $1)
       (get_local $0)
      )
@@ -4382,573 +4972,6274 @@
     (unreachable)
    )
   )
-  (call $~lib/map/Map<i8,i32>#clear
-   (get_local $1)
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
   )
-  (if
-   (call $~lib/map/Map<i8,i32>#get:size
-    (get_local $1)
+  (block $break|4
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<i16,i32>#keys
+      (get_local $1)
+     )
+    )
    )
-   (block
-    (call $~lib/env/abort
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<i16>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 6)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store16 offset=4
+     (get_local $3)
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 46)
-     (i32.const 2)
     )
-    (unreachable)
-   )
-  )
- )
- (func $~lib/internal/hash/hash32 (; 38 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
-  (i32.mul
-   (i32.xor
-    (i32.mul
-     (i32.xor
-      (i32.mul
-       (i32.xor
-        (i32.mul
-         (i32.xor
-          (i32.and
-           (get_local $0)
-           (i32.const 255)
-          )
-          (i32.const -2128831035)
-         )
-         (i32.const 16777619)
-        )
-        (i32.and
-         (i32.shr_u
-          (get_local $0)
-          (i32.const 8)
-         )
-         (i32.const 255)
-        )
+    (i32.store16 offset=4
+     (get_local $3)
+     (call $~lib/iterator/Iterator<i16>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (tee_local $4
+      (i32.ge_s
+       (i32.load16_s offset=4
+        (get_local $3)
        )
-       (i32.const 16777619)
+       (i32.const 50)
       )
-      (i32.and
-       (i32.shr_u
-        (get_local $0)
-        (i32.const 16)
+     )
+     (set_local $4
+      (i32.lt_s
+       (i32.load16_s offset=4
+        (get_local $3)
        )
-       (i32.const 255)
+       (i32.const 100)
       )
      )
-     (i32.const 16777619)
-    )
-    (i32.shr_u
-     (get_local $0)
-     (i32.const 24)
     )
-   )
-   (i32.const 16777619)
-  )
- )
- (func $~lib/map/Map<i32,i32>#find (; 39 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
-  (set_local $2
-   (i32.load offset=8
-    (i32.add
-     (i32.load
-      (get_local $0)
+    (if
+     (i32.eqz
+      (get_local $4)
      )
-     (i32.shl
-      (i32.and
-       (get_local $2)
-       (i32.load offset=4
-        (get_local $0)
-       )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 47)
+       (i32.const 4)
       )
-      (i32.const 2)
+      (unreachable)
      )
     )
-   )
-  )
-  (loop $continue|0
-   (if
-    (get_local $2)
-    (block
-     (if
-      (tee_local $0
-       (i32.eqz
-        (i32.and
-         (i32.load offset=8
-          (get_local $2)
-         )
-         (i32.const 1)
-        )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<i16,i32>#get
+       (get_local $1)
+       (i32.load16_s offset=4
+        (get_local $3)
        )
       )
-      (set_local $0
-       (i32.eq
-        (i32.load
-         (get_local $2)
-        )
-        (get_local $1)
+      (i32.add
+       (i32.load16_s offset=4
+        (get_local $3)
        )
+       (i32.const 20)
       )
      )
-     (if
-      (get_local $0)
-      (return
-       (get_local $2)
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 48)
+       (i32.const 4)
       )
+      (unreachable)
      )
-     (set_local $2
-      (i32.and
-       (i32.load offset=8
-        (get_local $2)
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
-       (i32.const -2)
       )
+      (br $repeat|4)
      )
-     (br $continue|0)
     )
    )
   )
-  (i32.const 0)
- )
- (func $~lib/map/Map<i32,i32>#has (; 40 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.ne
-   (call $~lib/map/Map<i32,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (call $~lib/internal/hash/hash32
-     (get_local $1)
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
     )
+    (i32.const 50)
    )
-   (i32.const 0)
-  )
- )
- (func $~lib/map/Map<i32,i32>#rehash (; 41 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (set_local $4
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $2
-      (i32.add
-       (get_local $1)
-       (i32.const 1)
-      )
-     )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 51)
      (i32.const 2)
     )
-    (i32.const 0)
+    (unreachable)
    )
   )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.mul
-     (tee_local $7
-      (i32.trunc_s/f64
-       (f64.mul
-        (f64.convert_s/i32
-         (get_local $2)
-        )
-        (f64.const 2.6666666666666665)
-       )
-      )
+  (block $break|5
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<i16,i32>#values
+      (get_local $1)
      )
-     (i32.const 12)
     )
-    (i32.const 1)
    )
-  )
-  (set_local $8
-   (i32.add
-    (tee_local $3
-     (i32.add
-      (i32.load offset=8
-       (get_local $0)
-      )
-      (i32.const 8)
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<i32>#get:done|virtual
+      (get_local $0)
      )
     )
-    (i32.mul
-     (i32.load offset=16
-      (get_local $0)
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
      )
-     (i32.const 12)
+     (get_local $2)
     )
-   )
-  )
-  (set_local $2
-   (i32.add
-    (get_local $5)
-    (i32.const 8)
-   )
-  )
-  (loop $continue|0
-   (if
-    (i32.ne
+    (i32.store offset=4
      (get_local $3)
-     (get_local $8)
+     (i32.const 0)
     )
-    (block
-     (if
-      (i32.eqz
-       (i32.and
-        (i32.load offset=8
-         (get_local $3)
-        )
-        (i32.const 1)
+    (i32.store offset=4
+     (get_local $3)
+     (call $~lib/iterator/Iterator<i32>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (tee_local $4
+      (i32.ge_s
+       (i32.load offset=4
+        (get_local $3)
        )
+       (i32.const 70)
       )
-      (block
-       (i32.store
-        (get_local $2)
-        (i32.load
-         (get_local $3)
-        )
+     )
+     (set_local $4
+      (i32.lt_s
+       (i32.load offset=4
+        (get_local $3)
        )
-       (i32.store offset=4
-        (get_local $2)
+       (i32.const 120)
+      )
+     )
+    )
+    (if
+     (get_local $4)
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
         (i32.load offset=4
-         (get_local $3)
-        )
-       )
-       (i32.store offset=8
-        (get_local $2)
-        (i32.load offset=8
-         (tee_local $6
-          (i32.add
-           (get_local $4)
-           (i32.shl
-            (i32.and
-             (tee_local $6
-              (call $~lib/internal/hash/hash32
-               (i32.load
-                (get_local $3)
-               )
-              )
-             )
-             (get_local $1)
-            )
-            (i32.const 2)
-           )
-          )
-         )
-        )
-       )
-       (i32.store offset=8
-        (get_local $6)
-        (get_local $2)
-       )
-       (set_local $2
-        (i32.add
          (get_local $2)
-         (i32.const 12)
         )
+        (i32.const 1)
        )
       )
+      (br $repeat|5)
      )
-     (set_local $3
-      (i32.add
-       (get_local $3)
-       (i32.const 12)
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 53)
+       (i32.const 4)
       )
+      (unreachable)
      )
-     (br $continue|0)
     )
    )
   )
-  (i32.store
-   (get_local $0)
-   (get_local $4)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $7)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 56)
+     (i32.const 2)
+    )
+    (unreachable)
    )
   )
- )
- (func $~lib/map/Map<i32,i32>#set (; 42 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (if
-   (tee_local $3
-    (call $~lib/map/Map<i32,i32>#find
-     (get_local $0)
-     (get_local $1)
-     (tee_local $5
-      (call $~lib/internal/hash/hash32
-       (get_local $1)
-      )
+  (block $break|6
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<i16,i32>#entries
+      (get_local $1)
      )
     )
    )
-   (i32.store offset=4
-    (get_local $3)
-    (get_local $2)
-   )
-   (block
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<KeyValue<i16,i32>>#get:done|virtual
+      (get_local $0)
+     )
+    )
     (if
-     (i32.eq
-      (i32.load offset=16
-       (get_local $0)
+     (i32.ne
+      (i32.load offset=4
+       (tee_local $4
+        (call $~lib/iterator/Iterator<KeyValue<i16,i32>>#next|virtual
+         (get_local $0)
+        )
+       )
       )
-      (i32.load offset=12
-       (get_local $0)
+      (i32.add
+       (i32.load16_s
+        (get_local $4)
+       )
+       (i32.const 20)
       )
      )
-     (call $~lib/map/Map<i32,i32>#rehash
-      (get_local $0)
-      (tee_local $3
-       (if (result i32)
-        (i32.lt_s
-         (i32.load offset=20
-          (get_local $0)
-         )
-         (i32.trunc_s/f64
-          (f64.mul
-           (f64.convert_s/i32
-            (i32.load offset=12
-             (get_local $0)
-            )
-           )
-           (f64.const 0.75)
-          )
-         )
-        )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 58)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
         (i32.load offset=4
-         (get_local $0)
-        )
-        (i32.or
-         (i32.shl
-          (i32.load offset=4
-           (get_local $0)
-          )
-          (i32.const 1)
-         )
-         (i32.const 1)
+         (get_local $2)
         )
+        (i32.const 1)
        )
       )
+      (br $repeat|6)
      )
     )
-    (set_local $3
-     (i32.load offset=8
-      (get_local $0)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 61)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|7
+   (set_local $4
+    (call $~lib/map/Map<i16,i32>#__iterator
+     (get_local $1)
+    )
+   )
+   (loop $repeat|7
+    (br_if $break|7
+     (call $~lib/iterator/Iterator<KeyValue<i16,i32>>#get:done|virtual
+      (get_local $4)
      )
     )
-    (i32.store offset=16
-     (get_local $0)
-     (i32.add
-      (tee_local $4
-       (i32.load offset=16
+    (if
+     (i32.ne
+      (i32.load offset=4
+       (tee_local $0
+        (call $~lib/iterator/Iterator<KeyValue<i16,i32>>#next|virtual
+         (get_local $4)
+        )
+       )
+      )
+      (i32.add
+       (i32.load16_s
         (get_local $0)
        )
+       (i32.const 20)
       )
-      (i32.const 1)
      )
-    )
-    (i32.store
-     (tee_local $3
-      (i32.add
-       (i32.add
-        (get_local $3)
-        (i32.const 8)
-       )
-       (i32.mul
-        (get_local $4)
-        (i32.const 12)
-       )
-      )
-     )
-     (get_local $1)
-    )
-    (i32.store offset=4
-     (get_local $3)
-     (get_local $2)
-    )
-    (i32.store offset=20
-     (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 63)
+       (i32.const 4)
       )
-      (i32.const 1)
+      (unreachable)
      )
-    )
-    (i32.store offset=8
-     (get_local $3)
-     (i32.load offset=8
-      (tee_local $4
-       (i32.add
-        (i32.load
-         (get_local $0)
-        )
-        (i32.shl
-         (i32.and
-          (get_local $5)
-          (i32.load offset=4
-           (get_local $0)
-          )
-         )
-         (i32.const 2)
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
         )
+        (i32.const 1)
        )
       )
+      (br $repeat|7)
      )
     )
-    (i32.store offset=8
-     (get_local $4)
-     (get_local $3)
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 66)
+     (i32.const 2)
     )
+    (unreachable)
    )
   )
- )
- (func $~lib/map/Map<i32,i32>#get (; 43 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (tee_local $0
-   (if (result i32)
-    (tee_local $0
-     (call $~lib/map/Map<i32,i32>#find
-      (get_local $0)
-      (get_local $1)
-      (call $~lib/internal/hash/hash32
-       (get_local $1)
-      )
-     )
+  (i32.store
+   (tee_local $0
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
     )
+   )
+   (i32.const 2)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (call $~lib/map/Map<i16,i32>#forEach
+   (get_local $1)
+   (get_local $0)
+  )
+  (if
+   (i32.ne
     (i32.load offset=4
-     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 71)
+     (i32.const 2)
     )
     (unreachable)
    )
   )
- )
- (func $~lib/map/Map<i32,i32>#delete (; 44 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
+  (call $~lib/map/Map<i8,i32>#clear
+   (get_local $1)
+  )
   (if
-   (i32.eqz
-    (tee_local $0
-     (call $~lib/map/Map<i32,i32>#find
-      (tee_local $2
-       (get_local $0)
-      )
-      (get_local $1)
-      (tee_local $0
-       (call $~lib/internal/hash/hash32
-        (get_local $1)
-       )
-      )
-     )
-    )
+   (call $~lib/map/Map<i8,i32>#get:size
+    (get_local $1)
    )
-   (return
-    (i32.const 0)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 75)
+     (i32.const 2)
+    )
+    (unreachable)
    )
   )
-  (i32.store offset=8
-   (get_local $0)
-   (i32.or
-    (i32.load offset=8
-     (get_local $0)
+ )
+ (func $~lib/map/Map<u16,i32>#has (; 51 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.ne
+   (call $~lib/map/Map<i16,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (call $~lib/internal/hash/hash16
+     (i32.and
+      (get_local $1)
+      (i32.const 65535)
+     )
     )
-    (i32.const 1)
    )
+   (i32.const 0)
   )
-  (i32.store offset=20
-   (get_local $2)
-   (i32.sub
-    (i32.load offset=20
-     (get_local $2)
+ )
+ (func $~lib/map/Map<u16,i32>#rehash (; 52 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $4
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.shl
+     (tee_local $2
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (i32.const 2)
     )
-    (i32.const 1)
+    (i32.const 0)
    )
   )
-  (if
-   (tee_local $0
-    (i32.ge_u
-     (i32.add
-      (tee_local $1
-       (i32.shr_u
-        (i32.load offset=4
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.mul
+     (tee_local $7
+      (i32.trunc_s/f64
+       (f64.mul
+        (f64.convert_s/i32
          (get_local $2)
         )
-        (i32.const 1)
+        (f64.const 2.6666666666666665)
        )
       )
-      (i32.const 1)
      )
-     (select
-      (i32.const 4)
-      (tee_local $0
-       (i32.load offset=20
-        (get_local $2)
-       )
-      )
-      (i32.gt_u
-       (i32.const 4)
+     (i32.const 12)
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $8
+   (i32.add
+    (tee_local $3
+     (i32.add
+      (i32.load offset=8
        (get_local $0)
       )
+      (i32.const 8)
      )
     )
-   )
-   (set_local $0
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $2)
-     )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $2)
-        )
-       )
-       (f64.const 0.75)
-      )
+    (i32.mul
+     (i32.load offset=16
+      (get_local $0)
      )
+     (i32.const 12)
     )
    )
   )
-  (if
-   (get_local $0)
-   (call $~lib/map/Map<i32,i32>#rehash
-    (get_local $2)
-    (get_local $1)
+  (set_local $2
+   (i32.add
+    (get_local $5)
+    (i32.const 8)
    )
   )
-  (i32.const 1)
- )
- (func $std/map/test<i32,i32> (; 45 ;) (; has Stack IR ;) (type $v)
-  (local $0 i32)
-  (local $1 i32)
-  (set_local $1
-   (call $~lib/map/Map<i8,i32>#constructor)
-  )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.ge_s
-      (get_local $0)
-      (i32.const 100)
-     )
-    )
-    (if
-     (call $~lib/map/Map<i32,i32>#has
-      (get_local $1)
+  (loop $continue|0
+   (if
+    (i32.ne
+     (get_local $3)
+     (get_local $8)
+    )
+    (block
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=8
+         (get_local $3)
+        )
+        (i32.const 1)
+       )
+      )
+      (block
+       (i32.store16
+        (get_local $2)
+        (i32.load16_u
+         (get_local $3)
+        )
+       )
+       (i32.store offset=4
+        (get_local $2)
+        (i32.load offset=4
+         (get_local $3)
+        )
+       )
+       (i32.store offset=8
+        (get_local $2)
+        (i32.load offset=8
+         (tee_local $6
+          (i32.add
+           (get_local $4)
+           (i32.shl
+            (i32.and
+             (tee_local $6
+              (call $~lib/internal/hash/hash16
+               (i32.load16_u
+                (get_local $3)
+               )
+              )
+             )
+             (get_local $1)
+            )
+            (i32.const 2)
+           )
+          )
+         )
+        )
+       )
+       (i32.store offset=8
+        (get_local $6)
+        (get_local $2)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 12)
+        )
+       )
+      )
+     )
+     (set_local $3
+      (i32.add
+       (get_local $3)
+       (i32.const 12)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $7)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/Map<u16,i32>#set (; 53 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (tee_local $3
+    (call $~lib/map/Map<i16,i32>#find
+     (get_local $0)
+     (get_local $1)
+     (tee_local $5
+      (call $~lib/internal/hash/hash16
+       (i32.and
+        (get_local $1)
+        (i32.const 65535)
+       )
+      )
+     )
+    )
+   )
+   (i32.store offset=4
+    (get_local $3)
+    (get_local $2)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
+      )
+     )
+     (call $~lib/map/Map<u16,i32>#rehash
+      (get_local $0)
+      (tee_local $3
+       (if (result i32)
+        (i32.lt_s
+         (i32.load offset=20
+          (get_local $0)
+         )
+         (i32.trunc_s/f64
+          (f64.mul
+           (f64.convert_s/i32
+            (i32.load offset=12
+             (get_local $0)
+            )
+           )
+           (f64.const 0.75)
+          )
+         )
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+        (i32.or
+         (i32.shl
+          (i32.load offset=4
+           (get_local $0)
+          )
+          (i32.const 1)
+         )
+         (i32.const 1)
+        )
+       )
+      )
+     )
+    )
+    (set_local $3
+     (i32.load offset=8
+      (get_local $0)
+     )
+    )
+    (i32.store offset=16
+     (get_local $0)
+     (i32.add
+      (tee_local $4
+       (i32.load offset=16
+        (get_local $0)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store16
+     (tee_local $3
+      (i32.add
+       (i32.add
+        (get_local $3)
+        (i32.const 8)
+       )
+       (i32.mul
+        (get_local $4)
+        (i32.const 12)
+       )
+      )
+     )
+     (get_local $1)
+    )
+    (i32.store offset=4
+     (get_local $3)
+     (get_local $2)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store offset=8
+     (get_local $3)
+     (i32.load offset=8
+      (tee_local $4
+       (i32.add
+        (i32.load
+         (get_local $0)
+        )
+        (i32.shl
+         (i32.and
+          (get_local $5)
+          (i32.load offset=4
+           (get_local $0)
+          )
+         )
+         (i32.const 2)
+        )
+       )
+      )
+     )
+    )
+    (i32.store offset=8
+     (get_local $4)
+     (get_local $3)
+    )
+   )
+  )
+ )
+ (func $~lib/map/Map<u16,i32>#get (; 54 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (tee_local $0
+   (if (result i32)
+    (tee_local $0
+     (call $~lib/map/Map<i16,i32>#find
+      (get_local $0)
+      (get_local $1)
+      (call $~lib/internal/hash/hash16
+       (i32.and
+        (get_local $1)
+        (i32.const 65535)
+       )
+      )
+     )
+    )
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (unreachable)
+   )
+  )
+ )
+ (func $~lib/map/Map<u16,i32>#delete (; 55 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (tee_local $0
+     (call $~lib/map/Map<i16,i32>#find
+      (tee_local $2
+       (get_local $0)
+      )
+      (get_local $1)
+      (tee_local $0
+       (call $~lib/internal/hash/hash16
+        (i32.and
+         (get_local $1)
+         (i32.const 65535)
+        )
+       )
+      )
+     )
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (i32.or
+    (i32.load offset=8
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=20
+   (get_local $2)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $2)
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (tee_local $0
+    (i32.ge_u
+     (i32.add
+      (tee_local $1
+       (i32.shr_u
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+     (select
+      (i32.const 4)
+      (tee_local $0
+       (i32.load offset=20
+        (get_local $2)
+       )
+      )
+      (i32.gt_u
+       (i32.const 4)
+       (get_local $0)
+      )
+     )
+    )
+   )
+   (set_local $0
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $2)
+     )
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $2)
+        )
+       )
+       (f64.const 0.75)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (get_local $0)
+   (call $~lib/map/Map<u16,i32>#rehash
+    (get_local $2)
+    (get_local $1)
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/map/Map<u16,i32>#keys (; 56 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 50)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<u16,i32>#values (; 57 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 52)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<u16,i32>#entries (; 58 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 57)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<u16,i32>#__iterator (; 59 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/map/Map<u16,i32>#entries
+   (get_local $0)
+  )
+ )
+ (func $std/map/test<u16,i32>~anonymous|3 (; 60 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (if
+   (i32.ne
+    (get_local $0)
+    (i32.add
+     (i32.and
+      (get_local $1)
+      (i32.const 65535)
+     )
+     (i32.const 20)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 68)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (i32.add
+    (i32.load offset=4
+     (get_local $3)
+    )
+    (i32.const 1)
+   )
+  )
+ )
+ (func $~lib/map/Map<u16,i32>#forEach (; 61 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (i32.load offset=16
+       (get_local $0)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (i32.and
+       (i32.load offset=8
+        (tee_local $3
+         (i32.add
+          (i32.add
+           (i32.load offset=8
+            (get_local $0)
+           )
+           (i32.const 8)
+          )
+          (i32.mul
+           (get_local $2)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (block
+      (set_global $~argc
+       (i32.const 3)
+      )
+      (set_local $4
+       (i32.load offset=4
+        (get_local $3)
+       )
+      )
+      (set_local $3
+       (i32.load16_u
+        (get_local $3)
+       )
+      )
+      (set_global $~env
+       (get_local $1)
+      )
+      (call_indirect (type $iiiv)
+       (get_local $4)
+       (get_local $3)
+       (get_local $0)
+       (i32.load
+        (get_global $~env)
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $std/map/test<u16,i32> (; 62 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (set_local $1
+   (call $~lib/map/Map<i8,i32>#constructor)
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 100)
+     )
+    )
+    (if
+     (call $~lib/map/Map<u16,i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 8)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/map/Map<u16,i32>#set
+     (get_local $1)
+     (get_local $0)
+     (i32.add
+      (i32.and
+       (get_local $0)
+       (i32.const 65535)
+      )
+      (i32.const 10)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<u16,i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 10)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<u16,i32>#get
+       (get_local $1)
+       (get_local $0)
+      )
+      (i32.add
+       (i32.and
+        (get_local $0)
+        (i32.const 65535)
+       )
+       (i32.const 10)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 11)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|0)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 13)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|1
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 100)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<u16,i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 17)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<u16,i32>#get
+       (get_local $1)
+       (get_local $0)
+      )
+      (i32.add
+       (i32.and
+        (get_local $0)
+        (i32.const 65535)
+       )
+       (i32.const 10)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 18)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/map/Map<u16,i32>#set
+     (get_local $1)
+     (get_local $0)
+     (i32.add
+      (i32.and
+       (get_local $0)
+       (i32.const 65535)
+      )
+      (i32.const 20)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<u16,i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 20)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<u16,i32>#get
+       (get_local $1)
+       (get_local $0)
+      )
+      (i32.add
+       (i32.and
+        (get_local $0)
+        (i32.const 65535)
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 21)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|1)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 23)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|2
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|2
+    (br_if $break|2
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 50)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<u16,i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 27)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<u16,i32>#get
+       (get_local $1)
+       (get_local $0)
+      )
+      (i32.add
+       (i32.and
+        (get_local $0)
+        (i32.const 65535)
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 28)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (drop
+     (call $~lib/map/Map<u16,i32>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/map/Map<u16,i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 30)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|2)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 32)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|3
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|3
+    (br_if $break|3
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 50)
+     )
+    )
+    (if
+     (call $~lib/map/Map<u16,i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 36)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/map/Map<u16,i32>#set
+     (get_local $1)
+     (get_local $0)
+     (i32.add
+      (i32.and
+       (get_local $0)
+       (i32.const 65535)
+      )
+      (i32.const 10)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<u16,i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 38)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (drop
+     (call $~lib/map/Map<u16,i32>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/map/Map<u16,i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 40)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 42)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block $break|4
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<u16,i32>#keys
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<u16>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 6)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store16 offset=4
+     (get_local $3)
+     (i32.const 0)
+    )
+    (i32.store16 offset=4
+     (get_local $3)
+     (call $~lib/iterator/Iterator<u16>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (tee_local $4
+      (i32.ge_u
+       (i32.load16_u offset=4
+        (get_local $3)
+       )
+       (i32.const 50)
+      )
+     )
+     (set_local $4
+      (i32.lt_u
+       (i32.load16_u offset=4
+        (get_local $3)
+       )
+       (i32.const 100)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (get_local $4)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 47)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<u16,i32>#get
+       (get_local $1)
+       (i32.load16_u offset=4
+        (get_local $3)
+       )
+      )
+      (i32.add
+       (i32.load16_u offset=4
+        (get_local $3)
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 48)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|4)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 51)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|5
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<u16,i32>#values
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<i32>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store offset=4
+     (get_local $3)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $3)
+     (call $~lib/iterator/Iterator<i32>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (tee_local $4
+      (i32.ge_s
+       (i32.load offset=4
+        (get_local $3)
+       )
+       (i32.const 70)
+      )
+     )
+     (set_local $4
+      (i32.lt_s
+       (i32.load offset=4
+        (get_local $3)
+       )
+       (i32.const 120)
+      )
+     )
+    )
+    (if
+     (get_local $4)
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|5)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 53)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 56)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|6
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<u16,i32>#entries
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<KeyValue<u16,i32>>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (i32.ne
+      (i32.load offset=4
+       (tee_local $4
+        (call $~lib/iterator/Iterator<KeyValue<u16,i32>>#next|virtual
+         (get_local $0)
+        )
+       )
+      )
+      (i32.add
+       (i32.load16_u
+        (get_local $4)
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 58)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|6)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 61)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|7
+   (set_local $4
+    (call $~lib/map/Map<u16,i32>#__iterator
+     (get_local $1)
+    )
+   )
+   (loop $repeat|7
+    (br_if $break|7
+     (call $~lib/iterator/Iterator<KeyValue<u16,i32>>#get:done|virtual
+      (get_local $4)
+     )
+    )
+    (if
+     (i32.ne
+      (i32.load offset=4
+       (tee_local $0
+        (call $~lib/iterator/Iterator<KeyValue<u16,i32>>#next|virtual
+         (get_local $4)
+        )
+       )
+      )
+      (i32.add
+       (i32.load16_u
+        (get_local $0)
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 63)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|7)
+     )
+    )
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 66)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $0
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (call $~lib/map/Map<u16,i32>#forEach
+   (get_local $1)
+   (get_local $0)
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 71)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/map/Map<i8,i32>#clear
+   (get_local $1)
+  )
+  (if
+   (call $~lib/map/Map<i8,i32>#get:size
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 75)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+ )
+ (func $~lib/internal/hash/hash32 (; 63 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.mul
+   (i32.xor
+    (i32.mul
+     (i32.xor
+      (i32.mul
+       (i32.xor
+        (i32.mul
+         (i32.xor
+          (i32.and
+           (get_local $0)
+           (i32.const 255)
+          )
+          (i32.const -2128831035)
+         )
+         (i32.const 16777619)
+        )
+        (i32.and
+         (i32.shr_u
+          (get_local $0)
+          (i32.const 8)
+         )
+         (i32.const 255)
+        )
+       )
+       (i32.const 16777619)
+      )
+      (i32.and
+       (i32.shr_u
+        (get_local $0)
+        (i32.const 16)
+       )
+       (i32.const 255)
+      )
+     )
+     (i32.const 16777619)
+    )
+    (i32.shr_u
+     (get_local $0)
+     (i32.const 24)
+    )
+   )
+   (i32.const 16777619)
+  )
+ )
+ (func $~lib/map/Map<i32,i32>#find (; 64 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (set_local $2
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (i32.shl
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (i32.const 2)
+     )
+    )
+   )
+  )
+  (loop $continue|0
+   (if
+    (get_local $2)
+    (block
+     (if
+      (tee_local $0
+       (i32.eqz
+        (i32.and
+         (i32.load offset=8
+          (get_local $2)
+         )
+         (i32.const 1)
+        )
+       )
+      )
+      (set_local $0
+       (i32.eq
+        (i32.load
+         (get_local $2)
+        )
+        (get_local $1)
+       )
+      )
+     )
+     (if
+      (get_local $0)
+      (return
+       (get_local $2)
+      )
+     )
+     (set_local $2
+      (i32.and
+       (i32.load offset=8
+        (get_local $2)
+       )
+       (i32.const -2)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/map/Map<i32,i32>#has (; 65 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.ne
+   (call $~lib/map/Map<i32,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (call $~lib/internal/hash/hash32
+     (get_local $1)
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/map/Map<i32,i32>#rehash (; 66 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $4
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.shl
+     (tee_local $2
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (i32.const 2)
+    )
+    (i32.const 0)
+   )
+  )
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.mul
+     (tee_local $7
+      (i32.trunc_s/f64
+       (f64.mul
+        (f64.convert_s/i32
+         (get_local $2)
+        )
+        (f64.const 2.6666666666666665)
+       )
+      )
+     )
+     (i32.const 12)
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $8
+   (i32.add
+    (tee_local $3
+     (i32.add
+      (i32.load offset=8
+       (get_local $0)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.mul
+     (i32.load offset=16
+      (get_local $0)
+     )
+     (i32.const 12)
+    )
+   )
+  )
+  (set_local $2
+   (i32.add
+    (get_local $5)
+    (i32.const 8)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.ne
+     (get_local $3)
+     (get_local $8)
+    )
+    (block
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=8
+         (get_local $3)
+        )
+        (i32.const 1)
+       )
+      )
+      (block
+       (i32.store
+        (get_local $2)
+        (i32.load
+         (get_local $3)
+        )
+       )
+       (i32.store offset=4
+        (get_local $2)
+        (i32.load offset=4
+         (get_local $3)
+        )
+       )
+       (i32.store offset=8
+        (get_local $2)
+        (i32.load offset=8
+         (tee_local $6
+          (i32.add
+           (get_local $4)
+           (i32.shl
+            (i32.and
+             (tee_local $6
+              (call $~lib/internal/hash/hash32
+               (i32.load
+                (get_local $3)
+               )
+              )
+             )
+             (get_local $1)
+            )
+            (i32.const 2)
+           )
+          )
+         )
+        )
+       )
+       (i32.store offset=8
+        (get_local $6)
+        (get_local $2)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 12)
+        )
+       )
+      )
+     )
+     (set_local $3
+      (i32.add
+       (get_local $3)
+       (i32.const 12)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $7)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/Map<i32,i32>#set (; 67 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (tee_local $3
+    (call $~lib/map/Map<i32,i32>#find
+     (get_local $0)
+     (get_local $1)
+     (tee_local $5
+      (call $~lib/internal/hash/hash32
+       (get_local $1)
+      )
+     )
+    )
+   )
+   (i32.store offset=4
+    (get_local $3)
+    (get_local $2)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
+      )
+     )
+     (call $~lib/map/Map<i32,i32>#rehash
+      (get_local $0)
+      (tee_local $3
+       (if (result i32)
+        (i32.lt_s
+         (i32.load offset=20
+          (get_local $0)
+         )
+         (i32.trunc_s/f64
+          (f64.mul
+           (f64.convert_s/i32
+            (i32.load offset=12
+             (get_local $0)
+            )
+           )
+           (f64.const 0.75)
+          )
+         )
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+        (i32.or
+         (i32.shl
+          (i32.load offset=4
+           (get_local $0)
+          )
+          (i32.const 1)
+         )
+         (i32.const 1)
+        )
+       )
+      )
+     )
+    )
+    (set_local $3
+     (i32.load offset=8
+      (get_local $0)
+     )
+    )
+    (i32.store offset=16
+     (get_local $0)
+     (i32.add
+      (tee_local $4
+       (i32.load offset=16
+        (get_local $0)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (i32.add
+       (i32.add
+        (get_local $3)
+        (i32.const 8)
+       )
+       (i32.mul
+        (get_local $4)
+        (i32.const 12)
+       )
+      )
+     )
+     (get_local $1)
+    )
+    (i32.store offset=4
+     (get_local $3)
+     (get_local $2)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store offset=8
+     (get_local $3)
+     (i32.load offset=8
+      (tee_local $4
+       (i32.add
+        (i32.load
+         (get_local $0)
+        )
+        (i32.shl
+         (i32.and
+          (get_local $5)
+          (i32.load offset=4
+           (get_local $0)
+          )
+         )
+         (i32.const 2)
+        )
+       )
+      )
+     )
+    )
+    (i32.store offset=8
+     (get_local $4)
+     (get_local $3)
+    )
+   )
+  )
+ )
+ (func $~lib/map/Map<i32,i32>#get (; 68 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (tee_local $0
+   (if (result i32)
+    (tee_local $0
+     (call $~lib/map/Map<i32,i32>#find
+      (get_local $0)
+      (get_local $1)
+      (call $~lib/internal/hash/hash32
+       (get_local $1)
+      )
+     )
+    )
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (unreachable)
+   )
+  )
+ )
+ (func $~lib/map/Map<i32,i32>#delete (; 69 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (tee_local $0
+     (call $~lib/map/Map<i32,i32>#find
+      (tee_local $2
+       (get_local $0)
+      )
+      (get_local $1)
+      (tee_local $0
+       (call $~lib/internal/hash/hash32
+        (get_local $1)
+       )
+      )
+     )
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (i32.or
+    (i32.load offset=8
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=20
+   (get_local $2)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $2)
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (tee_local $0
+    (i32.ge_u
+     (i32.add
+      (tee_local $1
+       (i32.shr_u
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+     (select
+      (i32.const 4)
+      (tee_local $0
+       (i32.load offset=20
+        (get_local $2)
+       )
+      )
+      (i32.gt_u
+       (i32.const 4)
+       (get_local $0)
+      )
+     )
+    )
+   )
+   (set_local $0
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $2)
+     )
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $2)
+        )
+       )
+       (f64.const 0.75)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (get_local $0)
+   (call $~lib/map/Map<i32,i32>#rehash
+    (get_local $2)
+    (get_local $1)
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/map/Map<i32,i32>#keys (; 70 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 61)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<i32,i32>#values (; 71 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 62)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<i32,i32>#entries (; 72 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 67)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<i32,i32>#__iterator (; 73 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/map/Map<i32,i32>#entries
+   (get_local $0)
+  )
+ )
+ (func $std/map/test<i32,i32>~anonymous|4 (; 74 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (if
+   (i32.ne
+    (get_local $0)
+    (i32.add
+     (get_local $1)
+     (i32.const 20)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 68)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (i32.add
+    (i32.load offset=4
+     (get_local $3)
+    )
+    (i32.const 1)
+   )
+  )
+ )
+ (func $~lib/map/Map<i32,i32>#forEach (; 75 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (i32.load offset=16
+       (get_local $0)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (i32.and
+       (i32.load offset=8
+        (tee_local $3
+         (i32.add
+          (i32.add
+           (i32.load offset=8
+            (get_local $0)
+           )
+           (i32.const 8)
+          )
+          (i32.mul
+           (get_local $2)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (block
+      (set_global $~argc
+       (i32.const 3)
+      )
+      (set_local $4
+       (i32.load offset=4
+        (get_local $3)
+       )
+      )
+      (set_local $3
+       (i32.load
+        (get_local $3)
+       )
+      )
+      (set_global $~env
+       (get_local $1)
+      )
+      (call_indirect (type $iiiv)
+       (get_local $4)
+       (get_local $3)
+       (get_local $0)
+       (i32.load
+        (get_global $~env)
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $std/map/test<i32,i32> (; 76 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (set_local $1
+   (call $~lib/map/Map<i8,i32>#constructor)
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $0)
+      (i32.const 100)
+     )
+    )
+    (if
+     (call $~lib/map/Map<i32,i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 8)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/map/Map<i32,i32>#set
+     (get_local $1)
+     (get_local $0)
+     (i32.add
+      (get_local $0)
+      (i32.const 10)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<i32,i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 10)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<i32,i32>#get
+       (get_local $1)
+       (get_local $0)
+      )
+      (i32.add
+       (get_local $0)
+       (i32.const 10)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 11)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|0)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 13)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|1
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.ge_s
+      (get_local $0)
+      (i32.const 100)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<i32,i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 17)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<i32,i32>#get
+       (get_local $1)
+       (get_local $0)
+      )
+      (i32.add
+       (get_local $0)
+       (i32.const 10)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 18)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/map/Map<i32,i32>#set
+     (get_local $1)
+     (get_local $0)
+     (i32.add
+      (get_local $0)
+      (i32.const 20)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<i32,i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 20)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<i32,i32>#get
+       (get_local $1)
+       (get_local $0)
+      )
+      (i32.add
+       (get_local $0)
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 21)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|1)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 23)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|2
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|2
+    (br_if $break|2
+     (i32.ge_s
+      (get_local $0)
+      (i32.const 50)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<i32,i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 27)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<i32,i32>#get
+       (get_local $1)
+       (get_local $0)
+      )
+      (i32.add
+       (get_local $0)
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 28)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (drop
+     (call $~lib/map/Map<i32,i32>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/map/Map<i32,i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 30)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|2)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 32)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|3
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|3
+    (br_if $break|3
+     (i32.ge_s
+      (get_local $0)
+      (i32.const 50)
+     )
+    )
+    (if
+     (call $~lib/map/Map<i32,i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 36)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/map/Map<i32,i32>#set
+     (get_local $1)
+     (get_local $0)
+     (i32.add
+      (get_local $0)
+      (i32.const 10)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<i32,i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 38)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (drop
+     (call $~lib/map/Map<i32,i32>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/map/Map<i32,i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 40)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 42)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block $break|4
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<i32,i32>#keys
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<i32>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store offset=4
+     (get_local $3)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $3)
+     (call $~lib/iterator/Iterator<i32>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (tee_local $4
+      (i32.ge_s
+       (i32.load offset=4
+        (get_local $3)
+       )
+       (i32.const 50)
+      )
+     )
+     (set_local $4
+      (i32.lt_s
+       (i32.load offset=4
+        (get_local $3)
+       )
+       (i32.const 100)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (get_local $4)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 47)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<i32,i32>#get
+       (get_local $1)
+       (i32.load offset=4
+        (get_local $3)
+       )
+      )
+      (i32.add
+       (i32.load offset=4
+        (get_local $3)
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 48)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|4)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 51)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|5
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<i32,i32>#values
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<i32>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store offset=4
+     (get_local $3)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $3)
+     (call $~lib/iterator/Iterator<i32>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (tee_local $4
+      (i32.ge_s
+       (i32.load offset=4
+        (get_local $3)
+       )
+       (i32.const 70)
+      )
+     )
+     (set_local $4
+      (i32.lt_s
+       (i32.load offset=4
+        (get_local $3)
+       )
+       (i32.const 120)
+      )
+     )
+    )
+    (if
+     (get_local $4)
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|5)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 53)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 56)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|6
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<i32,i32>#entries
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<KeyValue<i32,i32>>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (i32.ne
+      (i32.load offset=4
+       (tee_local $4
+        (call $~lib/iterator/Iterator<KeyValue<i32,i32>>#next|virtual
+         (get_local $0)
+        )
+       )
+      )
+      (i32.add
+       (i32.load
+        (get_local $4)
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 58)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|6)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 61)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|7
+   (set_local $4
+    (call $~lib/map/Map<i32,i32>#__iterator
+     (get_local $1)
+    )
+   )
+   (loop $repeat|7
+    (br_if $break|7
+     (call $~lib/iterator/Iterator<KeyValue<i32,i32>>#get:done|virtual
+      (get_local $4)
+     )
+    )
+    (if
+     (i32.ne
+      (i32.load offset=4
+       (tee_local $0
+        (call $~lib/iterator/Iterator<KeyValue<i32,i32>>#next|virtual
+         (get_local $4)
+        )
+       )
+      )
+      (i32.add
+       (i32.load
+        (get_local $0)
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 63)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|7)
+     )
+    )
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 66)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $0
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 4)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (call $~lib/map/Map<i32,i32>#forEach
+   (get_local $1)
+   (get_local $0)
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 71)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/map/Map<i8,i32>#clear
+   (get_local $1)
+  )
+  (if
+   (call $~lib/map/Map<i8,i32>#get:size
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 75)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+ )
+ (func $~lib/map/Map<u32,i32>#keys (; 77 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 73)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<u32,i32>#values (; 78 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 75)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<u32,i32>#entries (; 79 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 80)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<u32,i32>#__iterator (; 80 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/map/Map<u32,i32>#entries
+   (get_local $0)
+  )
+ )
+ (func $std/map/test<u32,i32> (; 81 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (set_local $1
+   (call $~lib/map/Map<i8,i32>#constructor)
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 100)
+     )
+    )
+    (if
+     (call $~lib/map/Map<i32,i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 8)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/map/Map<i32,i32>#set
+     (get_local $1)
+     (get_local $0)
+     (i32.add
+      (get_local $0)
+      (i32.const 10)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<i32,i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 10)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<i32,i32>#get
+       (get_local $1)
+       (get_local $0)
+      )
+      (i32.add
+       (get_local $0)
+       (i32.const 10)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 11)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|0)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 13)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|1
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 100)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<i32,i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 17)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<i32,i32>#get
+       (get_local $1)
+       (get_local $0)
+      )
+      (i32.add
+       (get_local $0)
+       (i32.const 10)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 18)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/map/Map<i32,i32>#set
+     (get_local $1)
+     (get_local $0)
+     (i32.add
+      (get_local $0)
+      (i32.const 20)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<i32,i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 20)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<i32,i32>#get
+       (get_local $1)
+       (get_local $0)
+      )
+      (i32.add
+       (get_local $0)
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 21)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|1)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 23)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|2
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|2
+    (br_if $break|2
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 50)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<i32,i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 27)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<i32,i32>#get
+       (get_local $1)
+       (get_local $0)
+      )
+      (i32.add
+       (get_local $0)
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 28)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (drop
+     (call $~lib/map/Map<i32,i32>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/map/Map<i32,i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 30)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|2)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 32)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|3
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|3
+    (br_if $break|3
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 50)
+     )
+    )
+    (if
+     (call $~lib/map/Map<i32,i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 36)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/map/Map<i32,i32>#set
+     (get_local $1)
+     (get_local $0)
+     (i32.add
+      (get_local $0)
+      (i32.const 10)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<i32,i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 38)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (drop
+     (call $~lib/map/Map<i32,i32>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/map/Map<i32,i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 40)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 42)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block $break|4
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<u32,i32>#keys
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<u32>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store offset=4
+     (get_local $3)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $3)
+     (call $~lib/iterator/Iterator<u32>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (tee_local $4
+      (i32.ge_u
+       (i32.load offset=4
+        (get_local $3)
+       )
+       (i32.const 50)
+      )
+     )
+     (set_local $4
+      (i32.lt_u
+       (i32.load offset=4
+        (get_local $3)
+       )
+       (i32.const 100)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (get_local $4)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 47)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<i32,i32>#get
+       (get_local $1)
+       (i32.load offset=4
+        (get_local $3)
+       )
+      )
+      (i32.add
+       (i32.load offset=4
+        (get_local $3)
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 48)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|4)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 51)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|5
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<u32,i32>#values
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<i32>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store offset=4
+     (get_local $3)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $3)
+     (call $~lib/iterator/Iterator<i32>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (tee_local $4
+      (i32.ge_s
+       (i32.load offset=4
+        (get_local $3)
+       )
+       (i32.const 70)
+      )
+     )
+     (set_local $4
+      (i32.lt_s
+       (i32.load offset=4
+        (get_local $3)
+       )
+       (i32.const 120)
+      )
+     )
+    )
+    (if
+     (get_local $4)
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|5)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 53)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 56)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|6
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<u32,i32>#entries
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<KeyValue<u32,i32>>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (i32.ne
+      (i32.load offset=4
+       (tee_local $4
+        (call $~lib/iterator/Iterator<KeyValue<u32,i32>>#next|virtual
+         (get_local $0)
+        )
+       )
+      )
+      (i32.add
+       (i32.load
+        (get_local $4)
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 58)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|6)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 61)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|7
+   (set_local $4
+    (call $~lib/map/Map<u32,i32>#__iterator
+     (get_local $1)
+    )
+   )
+   (loop $repeat|7
+    (br_if $break|7
+     (call $~lib/iterator/Iterator<KeyValue<u32,i32>>#get:done|virtual
+      (get_local $4)
+     )
+    )
+    (if
+     (i32.ne
+      (i32.load offset=4
+       (tee_local $0
+        (call $~lib/iterator/Iterator<KeyValue<u32,i32>>#next|virtual
+         (get_local $4)
+        )
+       )
+      )
+      (i32.add
+       (i32.load
+        (get_local $0)
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 63)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|7)
+     )
+    )
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 66)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $0
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 5)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (call $~lib/map/Map<i32,i32>#forEach
+   (get_local $1)
+   (get_local $0)
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 71)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/map/Map<i8,i32>#clear
+   (get_local $1)
+  )
+  (if
+   (call $~lib/map/Map<i8,i32>#get:size
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 75)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+ )
+ (func $~lib/map/Map<i64,i32>#clear (; 82 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+  (i32.store
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 16)
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 3)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 64)
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (i32.const 4)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/map/Map<i64,i32>#constructor (; 83 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (local $0 i32)
+  (i32.store
+   (tee_local $0
+    (call $~lib/memory/memory.allocate
+     (i32.const 24)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.const 0)
+  )
+  (call $~lib/map/Map<i64,i32>#clear
+   (get_local $0)
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/hash/hash64 (; 84 ;) (; has Stack IR ;) (type $Ii) (param $0 i64) (result i32)
+  (local $1 i32)
+  (i32.mul
+   (i32.xor
+    (i32.mul
+     (i32.xor
+      (i32.mul
+       (i32.xor
+        (i32.mul
+         (i32.xor
+          (i32.mul
+           (i32.xor
+            (i32.mul
+             (i32.xor
+              (i32.mul
+               (i32.xor
+                (i32.mul
+                 (i32.xor
+                  (i32.and
+                   (tee_local $1
+                    (i32.wrap/i64
+                     (get_local $0)
+                    )
+                   )
+                   (i32.const 255)
+                  )
+                  (i32.const -2128831035)
+                 )
+                 (i32.const 16777619)
+                )
+                (i32.and
+                 (i32.shr_u
+                  (get_local $1)
+                  (i32.const 8)
+                 )
+                 (i32.const 255)
+                )
+               )
+               (i32.const 16777619)
+              )
+              (i32.and
+               (i32.shr_u
+                (get_local $1)
+                (i32.const 16)
+               )
+               (i32.const 255)
+              )
+             )
+             (i32.const 16777619)
+            )
+            (i32.shr_u
+             (get_local $1)
+             (i32.const 24)
+            )
+           )
+           (i32.const 16777619)
+          )
+          (i32.and
+           (tee_local $1
+            (i32.wrap/i64
+             (i64.shr_u
+              (get_local $0)
+              (i64.const 32)
+             )
+            )
+           )
+           (i32.const 255)
+          )
+         )
+         (i32.const 16777619)
+        )
+        (i32.and
+         (i32.shr_u
+          (get_local $1)
+          (i32.const 8)
+         )
+         (i32.const 255)
+        )
+       )
+       (i32.const 16777619)
+      )
+      (i32.and
+       (i32.shr_u
+        (get_local $1)
+        (i32.const 16)
+       )
+       (i32.const 255)
+      )
+     )
+     (i32.const 16777619)
+    )
+    (i32.shr_u
+     (get_local $1)
+     (i32.const 24)
+    )
+   )
+   (i32.const 16777619)
+  )
+ )
+ (func $~lib/map/Map<i64,i32>#find (; 85 ;) (; has Stack IR ;) (type $iIii) (param $0 i32) (param $1 i64) (param $2 i32) (result i32)
+  (set_local $2
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (i32.shl
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (i32.const 2)
+     )
+    )
+   )
+  )
+  (loop $continue|0
+   (if
+    (get_local $2)
+    (block
+     (if
+      (tee_local $0
+       (i32.eqz
+        (i32.and
+         (i32.load offset=12
+          (get_local $2)
+         )
+         (i32.const 1)
+        )
+       )
+      )
+      (set_local $0
+       (i64.eq
+        (i64.load
+         (get_local $2)
+        )
+        (get_local $1)
+       )
+      )
+     )
+     (if
+      (get_local $0)
+      (return
+       (get_local $2)
+      )
+     )
+     (set_local $2
+      (i32.and
+       (i32.load offset=12
+        (get_local $2)
+       )
+       (i32.const -2)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/map/Map<i64,i32>#has (; 86 ;) (; has Stack IR ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
+  (i32.ne
+   (call $~lib/map/Map<i64,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (call $~lib/internal/hash/hash64
+     (get_local $1)
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/map/Map<i64,i32>#rehash (; 87 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $4
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.shl
+     (tee_local $2
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (i32.const 2)
+    )
+    (i32.const 0)
+   )
+  )
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.shl
+     (tee_local $7
+      (i32.trunc_s/f64
+       (f64.mul
+        (f64.convert_s/i32
+         (get_local $2)
+        )
+        (f64.const 2.6666666666666665)
+       )
+      )
+     )
+     (i32.const 4)
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $8
+   (i32.add
+    (tee_local $3
+     (i32.add
+      (i32.load offset=8
+       (get_local $0)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.shl
+     (i32.load offset=16
+      (get_local $0)
+     )
+     (i32.const 4)
+    )
+   )
+  )
+  (set_local $2
+   (i32.add
+    (get_local $5)
+    (i32.const 8)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.ne
+     (get_local $3)
+     (get_local $8)
+    )
+    (block
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=12
+         (get_local $3)
+        )
+        (i32.const 1)
+       )
+      )
+      (block
+       (i64.store
+        (get_local $2)
+        (i64.load
+         (get_local $3)
+        )
+       )
+       (i32.store offset=8
+        (get_local $2)
+        (i32.load offset=8
+         (get_local $3)
+        )
+       )
+       (i32.store offset=12
+        (get_local $2)
+        (i32.load offset=8
+         (tee_local $6
+          (i32.add
+           (get_local $4)
+           (i32.shl
+            (i32.and
+             (tee_local $6
+              (call $~lib/internal/hash/hash64
+               (i64.load
+                (get_local $3)
+               )
+              )
+             )
+             (get_local $1)
+            )
+            (i32.const 2)
+           )
+          )
+         )
+        )
+       )
+       (i32.store offset=8
+        (get_local $6)
+        (get_local $2)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 16)
+        )
+       )
+      )
+     )
+     (set_local $3
+      (i32.add
+       (get_local $3)
+       (i32.const 16)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $7)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/Map<i64,i32>#set (; 88 ;) (; has Stack IR ;) (type $iIiv) (param $0 i32) (param $1 i64) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (tee_local $3
+    (call $~lib/map/Map<i64,i32>#find
+     (get_local $0)
+     (get_local $1)
+     (tee_local $5
+      (call $~lib/internal/hash/hash64
+       (get_local $1)
+      )
+     )
+    )
+   )
+   (i32.store offset=8
+    (get_local $3)
+    (get_local $2)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
+      )
+     )
+     (call $~lib/map/Map<i64,i32>#rehash
+      (get_local $0)
+      (tee_local $3
+       (if (result i32)
+        (i32.lt_s
+         (i32.load offset=20
+          (get_local $0)
+         )
+         (i32.trunc_s/f64
+          (f64.mul
+           (f64.convert_s/i32
+            (i32.load offset=12
+             (get_local $0)
+            )
+           )
+           (f64.const 0.75)
+          )
+         )
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+        (i32.or
+         (i32.shl
+          (i32.load offset=4
+           (get_local $0)
+          )
+          (i32.const 1)
+         )
+         (i32.const 1)
+        )
+       )
+      )
+     )
+    )
+    (set_local $3
+     (i32.load offset=8
+      (get_local $0)
+     )
+    )
+    (i32.store offset=16
+     (get_local $0)
+     (i32.add
+      (tee_local $4
+       (i32.load offset=16
+        (get_local $0)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i64.store
+     (tee_local $3
+      (i32.add
+       (i32.add
+        (get_local $3)
+        (i32.const 8)
+       )
+       (i32.shl
+        (get_local $4)
+        (i32.const 4)
+       )
+      )
+     )
+     (get_local $1)
+    )
+    (i32.store offset=8
+     (get_local $3)
+     (get_local $2)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store offset=12
+     (get_local $3)
+     (i32.load offset=8
+      (tee_local $4
+       (i32.add
+        (i32.load
+         (get_local $0)
+        )
+        (i32.shl
+         (i32.and
+          (get_local $5)
+          (i32.load offset=4
+           (get_local $0)
+          )
+         )
+         (i32.const 2)
+        )
+       )
+      )
+     )
+    )
+    (i32.store offset=8
+     (get_local $4)
+     (get_local $3)
+    )
+   )
+  )
+ )
+ (func $~lib/map/Map<i64,i32>#get (; 89 ;) (; has Stack IR ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
+  (tee_local $0
+   (if (result i32)
+    (tee_local $0
+     (call $~lib/map/Map<i64,i32>#find
+      (get_local $0)
+      (get_local $1)
+      (call $~lib/internal/hash/hash64
+       (get_local $1)
+      )
+     )
+    )
+    (i32.load offset=8
+     (get_local $0)
+    )
+    (unreachable)
+   )
+  )
+ )
+ (func $~lib/map/Map<i64,i32>#delete (; 90 ;) (; has Stack IR ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eqz
+    (tee_local $0
+     (call $~lib/map/Map<i64,i32>#find
+      (tee_local $2
+       (get_local $0)
+      )
+      (get_local $1)
+      (tee_local $0
+       (call $~lib/internal/hash/hash64
+        (get_local $1)
+       )
+      )
+     )
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (i32.or
+    (i32.load offset=12
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=20
+   (get_local $2)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $2)
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (tee_local $0
+    (i32.ge_u
+     (i32.add
+      (tee_local $3
+       (i32.shr_u
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+     (select
+      (i32.const 4)
+      (tee_local $0
+       (i32.load offset=20
+        (get_local $2)
+       )
+      )
+      (i32.gt_u
+       (i32.const 4)
+       (get_local $0)
+      )
+     )
+    )
+   )
+   (set_local $0
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $2)
+     )
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $2)
+        )
+       )
+       (f64.const 0.75)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (get_local $0)
+   (call $~lib/map/Map<i64,i32>#rehash
+    (get_local $2)
+    (get_local $3)
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/map/Map<i64,i32>#keys (; 91 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 86)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<i64,i32>#values (; 92 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 88)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<i64,i32>#entries (; 93 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 93)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<i64,i32>#__iterator (; 94 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/map/Map<i64,i32>#entries
+   (get_local $0)
+  )
+ )
+ (func $std/map/test<i64,i32>~anonymous|6 (; 95 ;) (; has Stack IR ;) (type $iIiv) (param $0 i32) (param $1 i64) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (if
+   (i32.ne
+    (get_local $0)
+    (i32.add
+     (i32.wrap/i64
+      (get_local $1)
+     )
+     (i32.const 20)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 68)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (i32.add
+    (i32.load offset=4
+     (get_local $3)
+    )
+    (i32.const 1)
+   )
+  )
+ )
+ (func $~lib/map/Map<i64,i32>#forEach (; 96 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i64)
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (i32.load offset=16
+       (get_local $0)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (i32.and
+       (i32.load offset=12
+        (tee_local $3
+         (i32.add
+          (i32.add
+           (i32.load offset=8
+            (get_local $0)
+           )
+           (i32.const 8)
+          )
+          (i32.shl
+           (get_local $2)
+           (i32.const 4)
+          )
+         )
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (block
+      (set_global $~argc
+       (i32.const 3)
+      )
+      (set_local $4
+       (i32.load offset=8
+        (get_local $3)
+       )
+      )
+      (set_local $5
+       (i64.load
+        (get_local $3)
+       )
+      )
+      (set_global $~env
+       (get_local $1)
+      )
+      (call_indirect (type $iIiv)
+       (get_local $4)
+       (get_local $5)
+       (get_local $0)
+       (i32.load
+        (get_global $~env)
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $std/map/test<i64,i32> (; 97 ;) (; has Stack IR ;) (type $v)
+  (local $0 i64)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (set_local $1
+   (call $~lib/map/Map<i64,i32>#constructor)
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i64.ge_s
+      (get_local $0)
+      (i64.const 100)
+     )
+    )
+    (if
+     (call $~lib/map/Map<i64,i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 8)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/map/Map<i64,i32>#set
+     (get_local $1)
+     (get_local $0)
+     (i32.add
+      (i32.wrap/i64
+       (get_local $0)
+      )
+      (i32.const 10)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<i64,i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 10)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<i64,i32>#get
+       (get_local $1)
+       (get_local $0)
+      )
+      (i32.add
+       (i32.wrap/i64
+        (get_local $0)
+       )
+       (i32.const 10)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 11)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i64.add
+        (get_local $0)
+        (i64.const 1)
+       )
+      )
+      (br $repeat|0)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 13)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|1
+   (set_local $0
+    (i64.const 0)
+   )
+   (loop $repeat|1
+    (br_if $break|1
+     (i64.ge_s
+      (get_local $0)
+      (i64.const 100)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<i64,i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 17)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<i64,i32>#get
+       (get_local $1)
+       (get_local $0)
+      )
+      (i32.add
+       (i32.wrap/i64
+        (get_local $0)
+       )
+       (i32.const 10)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 18)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/map/Map<i64,i32>#set
+     (get_local $1)
+     (get_local $0)
+     (i32.add
+      (i32.wrap/i64
+       (get_local $0)
+      )
+      (i32.const 20)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<i64,i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 20)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<i64,i32>#get
+       (get_local $1)
+       (get_local $0)
+      )
+      (i32.add
+       (i32.wrap/i64
+        (get_local $0)
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 21)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i64.add
+        (get_local $0)
+        (i64.const 1)
+       )
+      )
+      (br $repeat|1)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 23)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|2
+   (set_local $0
+    (i64.const 0)
+   )
+   (loop $repeat|2
+    (br_if $break|2
+     (i64.ge_s
+      (get_local $0)
+      (i64.const 50)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<i64,i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 27)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<i64,i32>#get
+       (get_local $1)
+       (get_local $0)
+      )
+      (i32.add
+       (i32.wrap/i64
+        (get_local $0)
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 28)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (drop
+     (call $~lib/map/Map<i64,i32>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/map/Map<i64,i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 30)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i64.add
+        (get_local $0)
+        (i64.const 1)
+       )
+      )
+      (br $repeat|2)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 32)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|3
+   (set_local $0
+    (i64.const 0)
+   )
+   (loop $repeat|3
+    (br_if $break|3
+     (i64.ge_s
+      (get_local $0)
+      (i64.const 50)
+     )
+    )
+    (if
+     (call $~lib/map/Map<i64,i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 36)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/map/Map<i64,i32>#set
+     (get_local $1)
+     (get_local $0)
+     (i32.add
+      (i32.wrap/i64
+       (get_local $0)
+      )
+      (i32.const 10)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<i64,i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 38)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (drop
+     (call $~lib/map/Map<i64,i32>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/map/Map<i64,i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 40)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i64.add
+        (get_local $0)
+        (i64.const 1)
+       )
+      )
+      (br $repeat|3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 42)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block $break|4
+   (set_local $3
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<i64,i32>#keys
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<i64>#get:done|virtual
+      (get_local $3)
+     )
+    )
+    (i32.store
+     (tee_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+     )
+     (get_local $2)
+    )
+    (i64.store offset=8
+     (get_local $4)
+     (i64.const 0)
+    )
+    (i64.store offset=8
+     (get_local $4)
+     (call $~lib/iterator/Iterator<i64>#next|virtual
+      (get_local $3)
+     )
+    )
+    (if
+     (tee_local $5
+      (i64.ge_s
+       (i64.load offset=8
+        (get_local $4)
+       )
+       (i64.const 50)
+      )
+     )
+     (set_local $5
+      (i64.lt_s
+       (i64.load offset=8
+        (get_local $4)
+       )
+       (i64.const 100)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (get_local $5)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 47)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<i64,i32>#get
+       (get_local $1)
+       (i64.load offset=8
+        (get_local $4)
+       )
+      )
+      (i32.add
+       (i32.wrap/i64
+        (i64.load offset=8
+         (get_local $4)
+        )
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 48)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|4)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 51)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|5
+   (set_local $3
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<i64,i32>#values
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<i32>#get:done|virtual
+      (get_local $3)
+     )
+    )
+    (i32.store
+     (tee_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store offset=4
+     (get_local $4)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $4)
+     (call $~lib/iterator/Iterator<i32>#next|virtual
+      (get_local $3)
+     )
+    )
+    (if
+     (tee_local $5
+      (i32.ge_s
+       (i32.load offset=4
+        (get_local $4)
+       )
+       (i32.const 70)
+      )
+     )
+     (set_local $5
+      (i32.lt_s
+       (i32.load offset=4
+        (get_local $4)
+       )
+       (i32.const 120)
+      )
+     )
+    )
+    (if
+     (get_local $5)
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|5)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 53)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 56)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|6
+   (set_local $3
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<i64,i32>#entries
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<KeyValue<i64,i32>>#get:done|virtual
+      (get_local $3)
+     )
+    )
+    (if
+     (i32.ne
+      (i32.load offset=8
+       (tee_local $5
+        (call $~lib/iterator/Iterator<KeyValue<i64,i32>>#next|virtual
+         (get_local $3)
+        )
+       )
+      )
+      (i32.add
+       (i32.wrap/i64
+        (i64.load
+         (get_local $5)
+        )
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 58)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|6)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 61)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|7
+   (set_local $5
+    (call $~lib/map/Map<i64,i32>#__iterator
+     (get_local $1)
+    )
+   )
+   (loop $repeat|7
+    (br_if $break|7
+     (call $~lib/iterator/Iterator<KeyValue<i64,i32>>#get:done|virtual
+      (get_local $5)
+     )
+    )
+    (if
+     (i32.ne
+      (i32.load offset=8
+       (tee_local $3
+        (call $~lib/iterator/Iterator<KeyValue<i64,i32>>#next|virtual
+         (get_local $5)
+        )
+       )
+      )
+      (i32.add
+       (i32.wrap/i64
+        (i64.load
+         (get_local $3)
+        )
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 63)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|7)
+     )
+    )
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 66)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $3
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 6)
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (get_local $2)
+  )
+  (call $~lib/map/Map<i64,i32>#forEach
+   (get_local $1)
+   (get_local $3)
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 71)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/map/Map<i64,i32>#clear
+   (get_local $1)
+  )
+  (if
+   (call $~lib/map/Map<i8,i32>#get:size
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 75)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+ )
+ (func $~lib/map/Map<u64,i32>#keys (; 98 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 99)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<u64,i32>#values (; 99 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 101)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<u64,i32>#entries (; 100 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 106)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<u64,i32>#__iterator (; 101 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/map/Map<u64,i32>#entries
+   (get_local $0)
+  )
+ )
+ (func $std/map/test<u64,i32> (; 102 ;) (; has Stack IR ;) (type $v)
+  (local $0 i64)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (set_local $1
+   (call $~lib/map/Map<i64,i32>#constructor)
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i64.ge_u
+      (get_local $0)
+      (i64.const 100)
+     )
+    )
+    (if
+     (call $~lib/map/Map<i64,i32>#has
+      (get_local $1)
       (get_local $0)
      )
      (block
@@ -4961,17 +11252,19 @@
       (unreachable)
      )
     )
-    (call $~lib/map/Map<i32,i32>#set
+    (call $~lib/map/Map<i64,i32>#set
      (get_local $1)
      (get_local $0)
      (i32.add
-      (get_local $0)
+      (i32.wrap/i64
+       (get_local $0)
+      )
       (i32.const 10)
      )
     )
     (if
      (i32.eqz
-      (call $~lib/map/Map<i32,i32>#has
+      (call $~lib/map/Map<i64,i32>#has
        (get_local $1)
        (get_local $0)
       )
@@ -4988,12 +11281,14 @@
     )
     (if
      (i32.ne
-      (call $~lib/map/Map<i32,i32>#get
+      (call $~lib/map/Map<i64,i32>#get
        (get_local $1)
        (get_local $0)
       )
       (i32.add
-       (get_local $0)
+       (i32.wrap/i64
+        (get_local $0)
+       )
        (i32.const 10)
       )
      )
@@ -5008,9 +11303,9 @@
      )
      (block
       (set_local $0
-       (i32.add
+       (i64.add
         (get_local $0)
-        (i32.const 1)
+        (i64.const 1)
        )
       )
       (br $repeat|0)
@@ -5037,18 +11332,18 @@
   )
   (block $break|1
    (set_local $0
-    (i32.const 0)
+    (i64.const 0)
    )
    (loop $repeat|1
     (br_if $break|1
-     (i32.ge_s
+     (i64.ge_u
       (get_local $0)
-      (i32.const 100)
+      (i64.const 100)
      )
     )
     (if
      (i32.eqz
-      (call $~lib/map/Map<i32,i32>#has
+      (call $~lib/map/Map<i64,i32>#has
        (get_local $1)
        (get_local $0)
       )
@@ -5065,12 +11360,14 @@
     )
     (if
      (i32.ne
-      (call $~lib/map/Map<i32,i32>#get
+      (call $~lib/map/Map<i64,i32>#get
        (get_local $1)
        (get_local $0)
       )
       (i32.add
-       (get_local $0)
+       (i32.wrap/i64
+        (get_local $0)
+       )
        (i32.const 10)
       )
      )
@@ -5084,17 +11381,19 @@
       (unreachable)
      )
     )
-    (call $~lib/map/Map<i32,i32>#set
+    (call $~lib/map/Map<i64,i32>#set
      (get_local $1)
      (get_local $0)
      (i32.add
-      (get_local $0)
+      (i32.wrap/i64
+       (get_local $0)
+      )
       (i32.const 20)
      )
     )
     (if
      (i32.eqz
-      (call $~lib/map/Map<i32,i32>#has
+      (call $~lib/map/Map<i64,i32>#has
        (get_local $1)
        (get_local $0)
       )
@@ -5111,12 +11410,14 @@
     )
     (if
      (i32.ne
-      (call $~lib/map/Map<i32,i32>#get
+      (call $~lib/map/Map<i64,i32>#get
        (get_local $1)
        (get_local $0)
       )
       (i32.add
-       (get_local $0)
+       (i32.wrap/i64
+        (get_local $0)
+       )
        (i32.const 20)
       )
      )
@@ -5131,9 +11432,9 @@
      )
      (block
       (set_local $0
-       (i32.add
+       (i64.add
         (get_local $0)
-        (i32.const 1)
+        (i64.const 1)
        )
       )
       (br $repeat|1)
@@ -5160,18 +11461,18 @@
   )
   (block $break|2
    (set_local $0
-    (i32.const 0)
+    (i64.const 0)
    )
    (loop $repeat|2
     (br_if $break|2
-     (i32.ge_s
+     (i64.ge_u
       (get_local $0)
-      (i32.const 50)
+      (i64.const 50)
      )
     )
     (if
      (i32.eqz
-      (call $~lib/map/Map<i32,i32>#has
+      (call $~lib/map/Map<i64,i32>#has
        (get_local $1)
        (get_local $0)
       )
@@ -5188,12 +11489,14 @@
     )
     (if
      (i32.ne
-      (call $~lib/map/Map<i32,i32>#get
+      (call $~lib/map/Map<i64,i32>#get
        (get_local $1)
        (get_local $0)
       )
       (i32.add
-       (get_local $0)
+       (i32.wrap/i64
+        (get_local $0)
+       )
        (i32.const 20)
       )
      )
@@ -5208,13 +11511,13 @@
      )
     )
     (drop
-     (call $~lib/map/Map<i32,i32>#delete
+     (call $~lib/map/Map<i64,i32>#delete
       (get_local $1)
       (get_local $0)
      )
     )
     (if
-     (call $~lib/map/Map<i32,i32>#has
+     (call $~lib/map/Map<i64,i32>#has
       (get_local $1)
       (get_local $0)
      )
@@ -5229,9 +11532,9 @@
      )
      (block
       (set_local $0
-       (i32.add
+       (i64.add
         (get_local $0)
-        (i32.const 1)
+        (i64.const 1)
        )
       )
       (br $repeat|2)
@@ -5258,17 +11561,17 @@
   )
   (block $break|3
    (set_local $0
-    (i32.const 0)
+    (i64.const 0)
    )
    (loop $repeat|3
     (br_if $break|3
-     (i32.ge_s
+     (i64.ge_u
       (get_local $0)
-      (i32.const 50)
+      (i64.const 50)
      )
     )
     (if
-     (call $~lib/map/Map<i32,i32>#has
+     (call $~lib/map/Map<i64,i32>#has
       (get_local $1)
       (get_local $0)
      )
@@ -5282,17 +11585,19 @@
       (unreachable)
      )
     )
-    (call $~lib/map/Map<i32,i32>#set
+    (call $~lib/map/Map<i64,i32>#set
      (get_local $1)
      (get_local $0)
      (i32.add
-      (get_local $0)
+      (i32.wrap/i64
+       (get_local $0)
+      )
       (i32.const 10)
      )
     )
     (if
      (i32.eqz
-      (call $~lib/map/Map<i32,i32>#has
+      (call $~lib/map/Map<i64,i32>#has
        (get_local $1)
        (get_local $0)
       )
@@ -5308,13 +11613,13 @@
      )
     )
     (drop
-     (call $~lib/map/Map<i32,i32>#delete
+     (call $~lib/map/Map<i64,i32>#delete
       (get_local $1)
       (get_local $0)
      )
     )
     (if
-     (call $~lib/map/Map<i32,i32>#has
+     (call $~lib/map/Map<i64,i32>#has
       (get_local $1)
       (get_local $0)
      )
@@ -5329,9 +11634,9 @@
      )
      (block
       (set_local $0
-       (i32.add
+       (i64.add
         (get_local $0)
-        (i32.const 1)
+        (i64.const 1)
        )
       )
       (br $repeat|3)
@@ -5356,73 +11661,69 @@
     (unreachable)
    )
   )
-  (call $~lib/map/Map<i8,i32>#clear
-   (get_local $1)
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
   )
-  (if
-   (call $~lib/map/Map<i8,i32>#get:size
-    (get_local $1)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 46)
-     (i32.const 2)
+  (block $break|4
+   (set_local $3
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<u64,i32>#keys
+      (get_local $1)
+     )
     )
-    (unreachable)
    )
-  )
- )
- (func $std/map/test<u32,i32> (; 46 ;) (; has Stack IR ;) (type $v)
-  (local $0 i32)
-  (local $1 i32)
-  (set_local $1
-   (call $~lib/map/Map<i8,i32>#constructor)
-  )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.ge_u
-      (get_local $0)
-      (i32.const 100)
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<u64>#get:done|virtual
+      (get_local $3)
      )
     )
-    (if
-     (call $~lib/map/Map<i32,i32>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 8)
-       (i32.const 4)
+    (i32.store
+     (tee_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
       )
-      (unreachable)
      )
+     (get_local $2)
     )
-    (call $~lib/map/Map<i32,i32>#set
-     (get_local $1)
-     (get_local $0)
-     (i32.add
-      (get_local $0)
-      (i32.const 10)
+    (i64.store offset=8
+     (get_local $4)
+     (i64.const 0)
+    )
+    (i64.store offset=8
+     (get_local $4)
+     (call $~lib/iterator/Iterator<u64>#next|virtual
+      (get_local $3)
      )
     )
     (if
-     (i32.eqz
-      (call $~lib/map/Map<i32,i32>#has
-       (get_local $1)
-       (get_local $0)
+     (tee_local $5
+      (i64.ge_u
+       (i64.load offset=8
+        (get_local $4)
+       )
+       (i64.const 50)
+      )
+     )
+     (set_local $5
+      (i64.lt_u
+       (i64.load offset=8
+        (get_local $4)
+       )
+       (i64.const 100)
       )
      )
+    )
+    (if
+     (i32.eqz
+      (get_local $5)
+     )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 10)
+       (i32.const 47)
        (i32.const 4)
       )
       (unreachable)
@@ -5430,135 +11731,181 @@
     )
     (if
      (i32.ne
-      (call $~lib/map/Map<i32,i32>#get
+      (call $~lib/map/Map<i64,i32>#get
        (get_local $1)
-       (get_local $0)
+       (i64.load offset=8
+        (get_local $4)
+       )
       )
       (i32.add
-       (get_local $0)
-       (i32.const 10)
+       (i32.wrap/i64
+        (i64.load offset=8
+         (get_local $4)
+        )
+       )
+       (i32.const 20)
       )
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 11)
+       (i32.const 48)
        (i32.const 4)
       )
       (unreachable)
      )
      (block
-      (set_local $0
+      (i32.store offset=4
+       (get_local $2)
        (i32.add
-        (get_local $0)
+        (i32.load offset=4
+         (get_local $2)
+        )
         (i32.const 1)
        )
       )
-      (br $repeat|0)
+      (br $repeat|4)
      )
     )
    )
   )
   (if
    (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
-     (get_local $1)
+    (i32.load offset=4
+     (get_local $2)
     )
-    (i32.const 100)
+    (i32.const 50)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 13)
+     (i32.const 51)
      (i32.const 2)
     )
     (unreachable)
    )
   )
-  (block $break|1
-   (set_local $0
-    (i32.const 0)
+  (block $break|5
+   (set_local $3
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<u64,i32>#values
+      (get_local $1)
+     )
+    )
    )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.ge_u
-      (get_local $0)
-      (i32.const 100)
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<i32>#get:done|virtual
+      (get_local $3)
+     )
+    )
+    (i32.store
+     (tee_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store offset=4
+     (get_local $4)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $4)
+     (call $~lib/iterator/Iterator<i32>#next|virtual
+      (get_local $3)
      )
     )
     (if
-     (i32.eqz
-      (call $~lib/map/Map<i32,i32>#has
-       (get_local $1)
-       (get_local $0)
+     (tee_local $5
+      (i32.ge_s
+       (i32.load offset=4
+        (get_local $4)
+       )
+       (i32.const 70)
       )
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
+     (set_local $5
+      (i32.lt_s
+       (i32.load offset=4
+        (get_local $4)
+       )
        (i32.const 120)
-       (i32.const 17)
-       (i32.const 4)
       )
-      (unreachable)
      )
     )
     (if
-     (i32.ne
-      (call $~lib/map/Map<i32,i32>#get
-       (get_local $1)
-       (get_local $0)
-      )
-      (i32.add
-       (get_local $0)
-       (i32.const 10)
+     (get_local $5)
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
       )
+      (br $repeat|5)
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 18)
+       (i32.const 53)
        (i32.const 4)
       )
       (unreachable)
      )
     )
-    (call $~lib/map/Map<i32,i32>#set
-     (get_local $1)
-     (get_local $0)
-     (i32.add
-      (get_local $0)
-      (i32.const 20)
-     )
-    )
-    (if
-     (i32.eqz
-      (call $~lib/map/Map<i32,i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 56)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|6
+   (set_local $3
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<u64,i32>#entries
+      (get_local $1)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 20)
-       (i32.const 4)
-      )
-      (unreachable)
+    )
+   )
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<KeyValue<u64,i32>>#get:done|virtual
+      (get_local $3)
      )
     )
     (if
      (i32.ne
-      (call $~lib/map/Map<i32,i32>#get
-       (get_local $1)
-       (get_local $0)
+      (i32.load offset=8
+       (tee_local $5
+        (call $~lib/iterator/Iterator<KeyValue<u64,i32>>#next|virtual
+         (get_local $3)
+        )
+       )
       )
       (i32.add
-       (get_local $0)
+       (i32.wrap/i64
+        (i64.load
+         (get_local $5)
+        )
+       )
        (i32.const 20)
       )
      )
@@ -5566,76 +11913,70 @@
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 21)
+       (i32.const 58)
        (i32.const 4)
       )
       (unreachable)
      )
      (block
-      (set_local $0
+      (i32.store offset=4
+       (get_local $2)
        (i32.add
-        (get_local $0)
+        (i32.load offset=4
+         (get_local $2)
+        )
         (i32.const 1)
        )
       )
-      (br $repeat|1)
+      (br $repeat|6)
      )
     )
    )
   )
   (if
    (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
-     (get_local $1)
+    (i32.load offset=4
+     (get_local $2)
     )
-    (i32.const 100)
+    (i32.const 50)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 23)
+     (i32.const 61)
      (i32.const 2)
     )
     (unreachable)
    )
   )
-  (block $break|2
-   (set_local $0
-    (i32.const 0)
-   )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.ge_u
-      (get_local $0)
-      (i32.const 50)
-     )
+  (block $break|7
+   (set_local $5
+    (call $~lib/map/Map<u64,i32>#__iterator
+     (get_local $1)
     )
-    (if
-     (i32.eqz
-      (call $~lib/map/Map<i32,i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 27)
-       (i32.const 4)
-      )
-      (unreachable)
+   )
+   (loop $repeat|7
+    (br_if $break|7
+     (call $~lib/iterator/Iterator<KeyValue<u64,i32>>#get:done|virtual
+      (get_local $5)
      )
     )
     (if
      (i32.ne
-      (call $~lib/map/Map<i32,i32>#get
-       (get_local $1)
-       (get_local $0)
+      (i32.load offset=8
+       (tee_local $3
+        (call $~lib/iterator/Iterator<KeyValue<u64,i32>>#next|virtual
+         (get_local $5)
+        )
+       )
       )
       (i32.add
-       (get_local $0)
+       (i32.wrap/i64
+        (i64.load
+         (get_local $3)
+        )
+       )
        (i32.const 20)
       )
      )
@@ -5643,48 +11984,60 @@
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 28)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-    )
-    (drop
-     (call $~lib/map/Map<i32,i32>#delete
-      (get_local $1)
-      (get_local $0)
-     )
-    )
-    (if
-     (call $~lib/map/Map<i32,i32>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 30)
+       (i32.const 63)
        (i32.const 4)
       )
       (unreachable)
      )
      (block
-      (set_local $0
-       (i32.add
-        (get_local $0)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
         (i32.const 1)
        )
       )
-      (br $repeat|2)
+      (br $repeat|7)
      )
     )
    )
   )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 66)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $3
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 7)
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (get_local $2)
+  )
+  (call $~lib/map/Map<i64,i32>#forEach
+   (get_local $1)
+   (get_local $3)
+  )
   (if
    (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
-     (get_local $1)
+    (i32.load offset=4
+     (get_local $2)
     )
     (i32.const 50)
    )
@@ -5692,798 +12045,1107 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 32)
+     (i32.const 71)
      (i32.const 2)
     )
     (unreachable)
    )
   )
-  (block $break|3
-   (set_local $0
-    (i32.const 0)
+  (call $~lib/map/Map<i64,i32>#clear
+   (get_local $1)
+  )
+  (if
+   (call $~lib/map/Map<i8,i32>#get:size
+    (get_local $1)
    )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.ge_u
-      (get_local $0)
-      (i32.const 50)
-     )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 75)
+     (i32.const 2)
     )
-    (if
-     (call $~lib/map/Map<i32,i32>#has
-      (get_local $1)
+    (unreachable)
+   )
+  )
+ )
+ (func $~lib/map/Map<f32,i32>#find (; 103 ;) (; has Stack IR ;) (type $ifii) (param $0 i32) (param $1 f32) (param $2 i32) (result i32)
+  (set_local $2
+   (i32.load offset=8
+    (i32.add
+     (i32.load
       (get_local $0)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 36)
-       (i32.const 4)
+     (i32.shl
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
+       )
       )
-      (unreachable)
-     )
-    )
-    (call $~lib/map/Map<i32,i32>#set
-     (get_local $1)
-     (get_local $0)
-     (i32.add
-      (get_local $0)
-      (i32.const 10)
+      (i32.const 2)
      )
     )
-    (if
-     (i32.eqz
-      (call $~lib/map/Map<i32,i32>#has
-       (get_local $1)
-       (get_local $0)
+   )
+  )
+  (loop $continue|0
+   (if
+    (get_local $2)
+    (block
+     (if
+      (tee_local $0
+       (i32.eqz
+        (i32.and
+         (i32.load offset=8
+          (get_local $2)
+         )
+         (i32.const 1)
+        )
+       )
       )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 38)
-       (i32.const 4)
+      (set_local $0
+       (f32.eq
+        (f32.load
+         (get_local $2)
+        )
+        (get_local $1)
+       )
       )
-      (unreachable)
-     )
-    )
-    (drop
-     (call $~lib/map/Map<i32,i32>#delete
-      (get_local $1)
-      (get_local $0)
      )
-    )
-    (if
-     (call $~lib/map/Map<i32,i32>#has
-      (get_local $1)
+     (if
       (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 40)
-       (i32.const 4)
+      (return
+       (get_local $2)
       )
-      (unreachable)
      )
-     (block
-      (set_local $0
-       (i32.add
-        (get_local $0)
-        (i32.const 1)
+     (set_local $2
+      (i32.and
+       (i32.load offset=8
+        (get_local $2)
        )
+       (i32.const -2)
       )
-      (br $repeat|3)
      )
+     (br $continue|0)
     )
    )
   )
-  (if
-   (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
-     (get_local $1)
-    )
-    (i32.const 50)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
-  )
-  (call $~lib/map/Map<i8,i32>#clear
-   (get_local $1)
-  )
-  (if
-   (call $~lib/map/Map<i8,i32>#get:size
+  (i32.const 0)
+ )
+ (func $~lib/map/Map<f32,i32>#has (; 104 ;) (; has Stack IR ;) (type $ifi) (param $0 i32) (param $1 f32) (result i32)
+  (i32.ne
+   (call $~lib/map/Map<f32,i32>#find
+    (get_local $0)
     (get_local $1)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 46)
-     (i32.const 2)
+    (call $~lib/internal/hash/hash32
+     (i32.reinterpret/f32
+      (get_local $1)
+     )
     )
-    (unreachable)
    )
+   (i32.const 0)
   )
  )
- (func $~lib/map/Map<i64,i32>#clear (; 47 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
-  (i32.store
-   (get_local $0)
+ (func $~lib/map/Map<f32,i32>#rehash (; 105 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $4
    (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 16)
+    (i32.shl
+     (tee_local $2
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (i32.const 2)
+    )
     (i32.const 0)
    )
   )
-  (i32.store offset=4
-   (get_local $0)
-   (i32.const 3)
-  )
-  (i32.store offset=8
-   (get_local $0)
+  (set_local $5
    (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 64)
+    (i32.mul
+     (tee_local $7
+      (i32.trunc_s/f64
+       (f64.mul
+        (f64.convert_s/i32
+         (get_local $2)
+        )
+        (f64.const 2.6666666666666665)
+       )
+      )
+     )
+     (i32.const 12)
+    )
     (i32.const 1)
    )
   )
-  (i32.store offset=12
-   (get_local $0)
-   (i32.const 4)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.const 0)
-  )
- )
- (func $~lib/map/Map<i64,i32>#constructor (; 48 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
-  (local $0 i32)
-  (i32.store
-   (tee_local $0
-    (call $~lib/memory/memory.allocate)
+  (set_local $8
+   (i32.add
+    (tee_local $3
+     (i32.add
+      (i32.load offset=8
+       (get_local $0)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.mul
+     (i32.load offset=16
+      (get_local $0)
+     )
+     (i32.const 12)
+    )
    )
-   (i32.const 0)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.const 0)
   )
-  (call $~lib/map/Map<i64,i32>#clear
-   (get_local $0)
+  (set_local $2
+   (i32.add
+    (get_local $5)
+    (i32.const 8)
+   )
   )
-  (get_local $0)
- )
- (func $~lib/internal/hash/hash64 (; 49 ;) (; has Stack IR ;) (type $Ii) (param $0 i64) (result i32)
-  (local $1 i32)
-  (i32.mul
-   (i32.xor
-    (i32.mul
-     (i32.xor
-      (i32.mul
-       (i32.xor
-        (i32.mul
-         (i32.xor
-          (i32.mul
-           (i32.xor
-            (i32.mul
-             (i32.xor
-              (i32.mul
-               (i32.xor
-                (i32.mul
-                 (i32.xor
-                  (i32.and
-                   (tee_local $1
-                    (i32.wrap/i64
-                     (get_local $0)
-                    )
-                   )
-                   (i32.const 255)
-                  )
-                  (i32.const -2128831035)
-                 )
-                 (i32.const 16777619)
-                )
-                (i32.and
-                 (i32.shr_u
-                  (get_local $1)
-                  (i32.const 8)
-                 )
-                 (i32.const 255)
+  (loop $continue|0
+   (if
+    (i32.ne
+     (get_local $3)
+     (get_local $8)
+    )
+    (block
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=8
+         (get_local $3)
+        )
+        (i32.const 1)
+       )
+      )
+      (block
+       (f32.store
+        (get_local $2)
+        (f32.load
+         (get_local $3)
+        )
+       )
+       (i32.store offset=4
+        (get_local $2)
+        (i32.load offset=4
+         (get_local $3)
+        )
+       )
+       (i32.store offset=8
+        (get_local $2)
+        (i32.load offset=8
+         (tee_local $6
+          (i32.add
+           (get_local $4)
+           (i32.shl
+            (i32.and
+             (tee_local $6
+              (call $~lib/internal/hash/hash32
+               (i32.reinterpret/f32
+                (f32.load
+                 (get_local $3)
                 )
                )
-               (i32.const 16777619)
-              )
-              (i32.and
-               (i32.shr_u
-                (get_local $1)
-                (i32.const 16)
-               )
-               (i32.const 255)
               )
              )
-             (i32.const 16777619)
-            )
-            (i32.shr_u
              (get_local $1)
-             (i32.const 24)
             )
+            (i32.const 2)
            )
-           (i32.const 16777619)
           )
-          (i32.and
-           (tee_local $1
-            (i32.wrap/i64
-             (i64.shr_u
-              (get_local $0)
-              (i64.const 32)
-             )
+         )
+        )
+       )
+       (i32.store offset=8
+        (get_local $6)
+        (get_local $2)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 12)
+        )
+       )
+      )
+     )
+     (set_local $3
+      (i32.add
+       (get_local $3)
+       (i32.const 12)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $7)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/Map<f32,i32>#set (; 106 ;) (; has Stack IR ;) (type $ifiv) (param $0 i32) (param $1 f32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (tee_local $3
+    (call $~lib/map/Map<f32,i32>#find
+     (get_local $0)
+     (get_local $1)
+     (tee_local $5
+      (call $~lib/internal/hash/hash32
+       (i32.reinterpret/f32
+        (get_local $1)
+       )
+      )
+     )
+    )
+   )
+   (i32.store offset=4
+    (get_local $3)
+    (get_local $2)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
+      )
+     )
+     (call $~lib/map/Map<f32,i32>#rehash
+      (get_local $0)
+      (tee_local $3
+       (if (result i32)
+        (i32.lt_s
+         (i32.load offset=20
+          (get_local $0)
+         )
+         (i32.trunc_s/f64
+          (f64.mul
+           (f64.convert_s/i32
+            (i32.load offset=12
+             (get_local $0)
             )
            )
-           (i32.const 255)
+           (f64.const 0.75)
           )
          )
-         (i32.const 16777619)
         )
-        (i32.and
-         (i32.shr_u
-          (get_local $1)
-          (i32.const 8)
+        (i32.load offset=4
+         (get_local $0)
+        )
+        (i32.or
+         (i32.shl
+          (i32.load offset=4
+           (get_local $0)
+          )
+          (i32.const 1)
          )
-         (i32.const 255)
+         (i32.const 1)
         )
        )
-       (i32.const 16777619)
       )
-      (i32.and
-       (i32.shr_u
-        (get_local $1)
-        (i32.const 16)
+     )
+    )
+    (set_local $3
+     (i32.load offset=8
+      (get_local $0)
+     )
+    )
+    (i32.store offset=16
+     (get_local $0)
+     (i32.add
+      (tee_local $4
+       (i32.load offset=16
+        (get_local $0)
        )
-       (i32.const 255)
       )
+      (i32.const 1)
      )
-     (i32.const 16777619)
     )
-    (i32.shr_u
+    (f32.store
+     (tee_local $3
+      (i32.add
+       (i32.add
+        (get_local $3)
+        (i32.const 8)
+       )
+       (i32.mul
+        (get_local $4)
+        (i32.const 12)
+       )
+      )
+     )
      (get_local $1)
-     (i32.const 24)
+    )
+    (i32.store offset=4
+     (get_local $3)
+     (get_local $2)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store offset=8
+     (get_local $3)
+     (i32.load offset=8
+      (tee_local $4
+       (i32.add
+        (i32.load
+         (get_local $0)
+        )
+        (i32.shl
+         (i32.and
+          (get_local $5)
+          (i32.load offset=4
+           (get_local $0)
+          )
+         )
+         (i32.const 2)
+        )
+       )
+      )
+     )
+    )
+    (i32.store offset=8
+     (get_local $4)
+     (get_local $3)
     )
    )
-   (i32.const 16777619)
   )
  )
- (func $~lib/map/Map<i64,i32>#find (; 50 ;) (; has Stack IR ;) (type $iIii) (param $0 i32) (param $1 i64) (param $2 i32) (result i32)
-  (set_local $2
-   (i32.load offset=8
-    (i32.add
-     (i32.load
+ (func $~lib/map/Map<f32,i32>#get (; 107 ;) (; has Stack IR ;) (type $ifi) (param $0 i32) (param $1 f32) (result i32)
+  (tee_local $0
+   (if (result i32)
+    (tee_local $0
+     (call $~lib/map/Map<f32,i32>#find
       (get_local $0)
-     )
-     (i32.shl
-      (i32.and
-       (get_local $2)
-       (i32.load offset=4
-        (get_local $0)
+      (get_local $1)
+      (call $~lib/internal/hash/hash32
+       (i32.reinterpret/f32
+        (get_local $1)
        )
       )
-      (i32.const 2)
      )
     )
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (unreachable)
    )
   )
-  (loop $continue|0
-   (if
-    (get_local $2)
-    (block
-     (if
+ )
+ (func $~lib/map/Map<f32,i32>#delete (; 108 ;) (; has Stack IR ;) (type $ifi) (param $0 i32) (param $1 f32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eqz
+    (tee_local $0
+     (call $~lib/map/Map<f32,i32>#find
+      (tee_local $2
+       (get_local $0)
+      )
+      (get_local $1)
       (tee_local $0
-       (i32.eqz
-        (i32.and
-         (i32.load offset=12
-          (get_local $2)
-         )
-         (i32.const 1)
+       (call $~lib/internal/hash/hash32
+        (i32.reinterpret/f32
+         (get_local $1)
         )
        )
       )
-      (set_local $0
-       (i64.eq
-        (i64.load
+     )
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (i32.or
+    (i32.load offset=8
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=20
+   (get_local $2)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $2)
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (tee_local $0
+    (i32.ge_u
+     (i32.add
+      (tee_local $3
+       (i32.shr_u
+        (i32.load offset=4
          (get_local $2)
         )
-        (get_local $1)
+        (i32.const 1)
        )
       )
+      (i32.const 1)
      )
-     (if
-      (get_local $0)
-      (return
-       (get_local $2)
+     (select
+      (i32.const 4)
+      (tee_local $0
+       (i32.load offset=20
+        (get_local $2)
+       )
+      )
+      (i32.gt_u
+       (i32.const 4)
+       (get_local $0)
       )
      )
-     (set_local $2
-      (i32.and
-       (i32.load offset=12
-        (get_local $2)
+    )
+   )
+   (set_local $0
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $2)
+     )
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $2)
+        )
        )
-       (i32.const -2)
+       (f64.const 0.75)
       )
      )
-     (br $continue|0)
     )
    )
   )
-  (i32.const 0)
- )
- (func $~lib/map/Map<i64,i32>#has (; 51 ;) (; has Stack IR ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
-  (i32.ne
-   (call $~lib/map/Map<i64,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (call $~lib/internal/hash/hash64
-     (get_local $1)
-    )
+  (if
+   (get_local $0)
+   (call $~lib/map/Map<f32,i32>#rehash
+    (get_local $2)
+    (get_local $3)
    )
-   (i32.const 0)
   )
+  (i32.const 1)
  )
- (func $~lib/map/Map<i64,i32>#rehash (; 52 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (set_local $4
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $2
-      (i32.add
-       (get_local $1)
-       (i32.const 1)
+ (func $~lib/map/Map<f32,i32>#keys (; 109 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
       )
+      (i32.const 8)
      )
-     (i32.const 2)
     )
-    (i32.const 0)
+    (i32.const 4)
    )
+   (i32.const 112)
   )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $7
-      (i32.trunc_s/f64
-       (f64.mul
-        (f64.convert_s/i32
-         (get_local $2)
-        )
-        (f64.const 2.6666666666666665)
-       )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<f32,i32>#values (; 110 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
       )
+      (i32.const 8)
      )
-     (i32.const 4)
     )
-    (i32.const 1)
+    (i32.const 4)
    )
+   (i32.const 114)
   )
-  (set_local $8
-   (i32.add
-    (tee_local $3
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<f32,i32>#entries (; 111 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
      (i32.add
-      (i32.load offset=8
-       (get_local $0)
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
       )
       (i32.const 8)
      )
     )
-    (i32.shl
-     (i32.load offset=16
-      (get_local $0)
+    (i32.const 4)
+   )
+   (i32.const 119)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<f32,i32>#__iterator (; 112 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/map/Map<f32,i32>#entries
+   (get_local $0)
+  )
+ )
+ (func $std/map/test<f32,i32>~anonymous|8 (; 113 ;) (; has Stack IR ;) (type $ifiv) (param $0 i32) (param $1 f32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (if
+   (i32.ne
+    (get_local $0)
+    (i32.add
+     (i32.trunc_s/f32
+      (get_local $1)
      )
+     (i32.const 20)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 68)
      (i32.const 4)
     )
+    (unreachable)
    )
   )
-  (set_local $2
+  (i32.store offset=4
+   (get_local $3)
    (i32.add
-    (get_local $5)
-    (i32.const 8)
-   )
-  )
-  (loop $continue|0
-   (if
-    (i32.ne
+    (i32.load offset=4
      (get_local $3)
-     (get_local $8)
     )
-    (block
-     (if
-      (i32.eqz
-       (i32.and
-        (i32.load offset=12
-         (get_local $3)
-        )
-        (i32.const 1)
-       )
+    (i32.const 1)
+   )
+  )
+ )
+ (func $~lib/map/Map<f32,i32>#forEach (; 114 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 f32)
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (i32.load offset=16
+       (get_local $0)
       )
-      (block
-       (i64.store
-        (get_local $2)
-        (i64.load
-         (get_local $3)
-        )
-       )
-       (i32.store offset=8
-        (get_local $2)
-        (i32.load offset=8
-         (get_local $3)
-        )
-       )
-       (i32.store offset=12
-        (get_local $2)
-        (i32.load offset=8
-         (tee_local $6
-          (i32.add
-           (get_local $4)
-           (i32.shl
-            (i32.and
-             (tee_local $6
-              (call $~lib/internal/hash/hash64
-               (i64.load
-                (get_local $3)
-               )
-              )
-             )
-             (get_local $1)
-            )
-            (i32.const 2)
-           )
-          )
-         )
-        )
-       )
-       (i32.store offset=8
-        (get_local $6)
-        (get_local $2)
-       )
-       (set_local $2
-        (i32.add
-         (get_local $2)
-         (i32.const 16)
+     )
+    )
+    (if
+     (i32.eqz
+      (i32.and
+       (i32.load offset=8
+        (tee_local $3
+         (i32.add
+          (i32.add
+           (i32.load offset=8
+            (get_local $0)
+           )
+           (i32.const 8)
+          )
+          (i32.mul
+           (get_local $2)
+           (i32.const 12)
+          )
+         )
         )
        )
+       (i32.const 1)
       )
      )
-     (set_local $3
-      (i32.add
-       (get_local $3)
-       (i32.const 16)
+     (block
+      (set_global $~argc
+       (i32.const 3)
+      )
+      (set_local $4
+       (i32.load offset=4
+        (get_local $3)
+       )
+      )
+      (set_local $5
+       (f32.load
+        (get_local $3)
+       )
+      )
+      (set_global $~env
+       (get_local $1)
+      )
+      (call_indirect (type $ifiv)
+       (get_local $4)
+       (get_local $5)
+       (get_local $0)
+       (i32.load
+        (get_global $~env)
+       )
       )
      )
-     (br $continue|0)
     )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
    )
   )
+ )
+ (func $std/map/test<f32,i32> (; 115 ;) (; has Stack IR ;) (type $v)
+  (local $0 f32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
   (i32.store
-   (get_local $0)
-   (get_local $4)
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
   )
   (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $7)
+   (get_local $2)
+   (i32.const 0)
   )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
-   )
+  (set_local $1
+   (call $~lib/map/Map<i8,i32>#constructor)
   )
- )
- (func $~lib/map/Map<i64,i32>#set (; 53 ;) (; has Stack IR ;) (type $iIiv) (param $0 i32) (param $1 i64) (param $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (if
-   (tee_local $3
-    (call $~lib/map/Map<i64,i32>#find
-     (get_local $0)
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (f32.lt
+       (get_local $0)
+       (f32.const 100)
+      )
+     )
+    )
+    (if
+     (call $~lib/map/Map<f32,i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 8)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/map/Map<f32,i32>#set
      (get_local $1)
-     (tee_local $5
-      (call $~lib/internal/hash/hash64
-       (get_local $1)
+     (get_local $0)
+     (i32.add
+      (i32.trunc_s/f32
+       (get_local $0)
       )
+      (i32.const 10)
      )
     )
-   )
-   (i32.store offset=8
-    (get_local $3)
-    (get_local $2)
-   )
-   (block
     (if
-     (i32.eq
-      (i32.load offset=16
+     (i32.eqz
+      (call $~lib/map/Map<f32,i32>#has
+       (get_local $1)
        (get_local $0)
       )
-      (i32.load offset=12
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 10)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<f32,i32>#get
+       (get_local $1)
        (get_local $0)
       )
+      (i32.add
+       (i32.trunc_s/f32
+        (get_local $0)
+       )
+       (i32.const 10)
+      )
      )
-     (call $~lib/map/Map<i64,i32>#rehash
-      (get_local $0)
-      (tee_local $3
-       (if (result i32)
-        (i32.lt_s
-         (i32.load offset=20
-          (get_local $0)
-         )
-         (i32.trunc_s/f64
-          (f64.mul
-           (f64.convert_s/i32
-            (i32.load offset=12
-             (get_local $0)
-            )
-           )
-           (f64.const 0.75)
-          )
-         )
-        )
-        (i32.load offset=4
-         (get_local $0)
-        )
-        (i32.or
-         (i32.shl
-          (i32.load offset=4
-           (get_local $0)
-          )
-          (i32.const 1)
-         )
-         (i32.const 1)
-        )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 11)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (f32.add
+        (get_local $0)
+        (f32.const 1)
        )
       )
+      (br $repeat|0)
      )
     )
-    (set_local $3
-     (i32.load offset=8
-      (get_local $0)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 13)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|1
+   (set_local $0
+    (f32.const 0)
+   )
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.eqz
+      (f32.lt
+       (get_local $0)
+       (f32.const 100)
+      )
      )
     )
-    (i32.store offset=16
-     (get_local $0)
-     (i32.add
-      (tee_local $4
-       (i32.load offset=16
-        (get_local $0)
-       )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<f32,i32>#has
+       (get_local $1)
+       (get_local $0)
       )
-      (i32.const 1)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 17)
+       (i32.const 4)
+      )
+      (unreachable)
      )
     )
-    (i64.store
-     (tee_local $3
-      (i32.add
-       (i32.add
-        (get_local $3)
-        (i32.const 8)
-       )
-       (i32.shl
-        (get_local $4)
-        (i32.const 4)
+    (if
+     (i32.ne
+      (call $~lib/map/Map<f32,i32>#get
+       (get_local $1)
+       (get_local $0)
+      )
+      (i32.add
+       (i32.trunc_s/f32
+        (get_local $0)
        )
+       (i32.const 10)
       )
      )
-     (get_local $1)
-    )
-    (i32.store offset=8
-     (get_local $3)
-     (get_local $2)
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 18)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
     )
-    (i32.store offset=20
+    (call $~lib/map/Map<f32,i32>#set
+     (get_local $1)
      (get_local $0)
      (i32.add
-      (i32.load offset=20
+      (i32.trunc_s/f32
        (get_local $0)
       )
-      (i32.const 1)
+      (i32.const 20)
      )
     )
-    (i32.store offset=12
-     (get_local $3)
-     (i32.load offset=8
-      (tee_local $4
-       (i32.add
-        (i32.load
-         (get_local $0)
-        )
-        (i32.shl
-         (i32.and
-          (get_local $5)
-          (i32.load offset=4
-           (get_local $0)
-          )
-         )
-         (i32.const 2)
-        )
-       )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<f32,i32>#has
+       (get_local $1)
+       (get_local $0)
       )
      )
-    )
-    (i32.store offset=8
-     (get_local $4)
-     (get_local $3)
-    )
-   )
-  )
- )
- (func $~lib/map/Map<i64,i32>#get (; 54 ;) (; has Stack IR ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
-  (tee_local $0
-   (if (result i32)
-    (tee_local $0
-     (call $~lib/map/Map<i64,i32>#find
-      (get_local $0)
-      (get_local $1)
-      (call $~lib/internal/hash/hash64
-       (get_local $1)
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 20)
+       (i32.const 4)
       )
+      (unreachable)
      )
     )
-    (i32.load offset=8
-     (get_local $0)
-    )
-    (unreachable)
-   )
-  )
- )
- (func $~lib/map/Map<i64,i32>#delete (; 55 ;) (; has Stack IR ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (if
-   (i32.eqz
-    (tee_local $0
-     (call $~lib/map/Map<i64,i32>#find
-      (tee_local $2
+    (if
+     (i32.ne
+      (call $~lib/map/Map<f32,i32>#get
+       (get_local $1)
        (get_local $0)
       )
-      (get_local $1)
-      (tee_local $0
-       (call $~lib/internal/hash/hash64
-        (get_local $1)
+      (i32.add
+       (i32.trunc_s/f32
+        (get_local $0)
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 21)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (f32.add
+        (get_local $0)
+        (f32.const 1)
        )
       )
+      (br $repeat|1)
      )
     )
    )
-   (return
-    (i32.const 0)
-   )
   )
-  (i32.store offset=12
-   (get_local $0)
-   (i32.or
-    (i32.load offset=12
-     (get_local $0)
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
     )
-    (i32.const 1)
+    (i32.const 100)
    )
-  )
-  (i32.store offset=20
-   (get_local $2)
-   (i32.sub
-    (i32.load offset=20
-     (get_local $2)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 23)
+     (i32.const 2)
     )
-    (i32.const 1)
+    (unreachable)
    )
   )
-  (if
-   (tee_local $0
-    (i32.ge_u
-     (i32.add
-      (tee_local $3
-       (i32.shr_u
-        (i32.load offset=4
-         (get_local $2)
-        )
-        (i32.const 1)
-       )
+  (block $break|2
+   (set_local $0
+    (f32.const 0)
+   )
+   (loop $repeat|2
+    (br_if $break|2
+     (i32.eqz
+      (f32.lt
+       (get_local $0)
+       (f32.const 50)
       )
-      (i32.const 1)
      )
-     (select
-      (i32.const 4)
-      (tee_local $0
-       (i32.load offset=20
-        (get_local $2)
-       )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<f32,i32>#has
+       (get_local $1)
+       (get_local $0)
       )
-      (i32.gt_u
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 27)
        (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<f32,i32>#get
+       (get_local $1)
        (get_local $0)
       )
+      (i32.add
+       (i32.trunc_s/f32
+        (get_local $0)
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 28)
+       (i32.const 4)
+      )
+      (unreachable)
      )
     )
-   )
-   (set_local $0
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $2)
+    (drop
+     (call $~lib/map/Map<f32,i32>#delete
+      (get_local $1)
+      (get_local $0)
      )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $2)
-        )
+    )
+    (if
+     (call $~lib/map/Map<f32,i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 30)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (f32.add
+        (get_local $0)
+        (f32.const 1)
        )
-       (f64.const 0.75)
       )
+      (br $repeat|2)
      )
     )
    )
   )
-  (if
-   (get_local $0)
-   (call $~lib/map/Map<i64,i32>#rehash
-    (get_local $2)
-    (get_local $3)
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 32)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|3
+   (set_local $0
+    (f32.const 0)
    )
-  )
-  (i32.const 1)
- )
- (func $std/map/test<i64,i32> (; 56 ;) (; has Stack IR ;) (type $v)
-  (local $0 i64)
-  (local $1 i32)
-  (set_local $1
-   (call $~lib/map/Map<i64,i32>#constructor)
-  )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i64.ge_s
-      (get_local $0)
-      (i64.const 100)
+   (loop $repeat|3
+    (br_if $break|3
+     (i32.eqz
+      (f32.lt
+       (get_local $0)
+       (f32.const 50)
+      )
      )
     )
     (if
-     (call $~lib/map/Map<i64,i32>#has
+     (call $~lib/map/Map<f32,i32>#has
       (get_local $1)
       (get_local $0)
      )
@@ -6491,17 +13153,17 @@
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 8)
+       (i32.const 36)
        (i32.const 4)
       )
       (unreachable)
      )
     )
-    (call $~lib/map/Map<i64,i32>#set
+    (call $~lib/map/Map<f32,i32>#set
      (get_local $1)
      (get_local $0)
      (i32.add
-      (i32.wrap/i64
+      (i32.trunc_s/f32
        (get_local $0)
       )
       (i32.const 10)
@@ -6509,7 +13171,7 @@
     )
     (if
      (i32.eqz
-      (call $~lib/map/Map<i64,i32>#has
+      (call $~lib/map/Map<f32,i32>#has
        (get_local $1)
        (get_local $0)
       )
@@ -6518,42 +13180,40 @@
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 10)
+       (i32.const 38)
        (i32.const 4)
       )
       (unreachable)
      )
     )
+    (drop
+     (call $~lib/map/Map<f32,i32>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
     (if
-     (i32.ne
-      (call $~lib/map/Map<i64,i32>#get
-       (get_local $1)
-       (get_local $0)
-      )
-      (i32.add
-       (i32.wrap/i64
-        (get_local $0)
-       )
-       (i32.const 10)
-      )
+     (call $~lib/map/Map<f32,i32>#has
+      (get_local $1)
+      (get_local $0)
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 11)
+       (i32.const 40)
        (i32.const 4)
       )
       (unreachable)
      )
      (block
       (set_local $0
-       (i64.add
+       (f32.add
         (get_local $0)
-        (i64.const 1)
+        (f32.const 1)
        )
       )
-      (br $repeat|0)
+      (br $repeat|3)
      )
     )
    )
@@ -6563,91 +13223,81 @@
     (call $~lib/map/Map<i8,i32>#get:size
      (get_local $1)
     )
-    (i32.const 100)
+    (i32.const 50)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 13)
+     (i32.const 42)
      (i32.const 2)
     )
     (unreachable)
    )
   )
-  (block $break|1
-   (set_local $0
-    (i64.const 0)
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block $break|4
+   (set_local $3
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<f32,i32>#keys
+      (get_local $1)
+     )
+    )
    )
-   (loop $repeat|1
-    (br_if $break|1
-     (i64.ge_s
-      (get_local $0)
-      (i64.const 100)
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<f32>#get:done|virtual
+      (get_local $3)
      )
     )
-    (if
-     (i32.eqz
-      (call $~lib/map/Map<i64,i32>#has
-       (get_local $1)
-       (get_local $0)
+    (i32.store
+     (tee_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
       )
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 17)
-       (i32.const 4)
-      )
-      (unreachable)
+     (get_local $2)
+    )
+    (f32.store offset=4
+     (get_local $4)
+     (f32.const 0)
+    )
+    (f32.store offset=4
+     (get_local $4)
+     (call $~lib/iterator/Iterator<f32>#next|virtual
+      (get_local $3)
      )
     )
     (if
-     (i32.ne
-      (call $~lib/map/Map<i64,i32>#get
-       (get_local $1)
-       (get_local $0)
-      )
-      (i32.add
-       (i32.wrap/i64
-        (get_local $0)
+     (tee_local $5
+      (f32.ge
+       (f32.load offset=4
+        (get_local $4)
        )
-       (i32.const 10)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 18)
-       (i32.const 4)
+       (f32.const 50)
       )
-      (unreachable)
      )
-    )
-    (call $~lib/map/Map<i64,i32>#set
-     (get_local $1)
-     (get_local $0)
-     (i32.add
-      (i32.wrap/i64
-       (get_local $0)
+     (set_local $5
+      (f32.lt
+       (f32.load offset=4
+        (get_local $4)
+       )
+       (f32.const 100)
       )
-      (i32.const 20)
      )
     )
     (if
      (i32.eqz
-      (call $~lib/map/Map<i64,i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
+      (get_local $5)
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 20)
+       (i32.const 47)
        (i32.const 4)
       )
       (unreachable)
@@ -6655,13 +13305,17 @@
     )
     (if
      (i32.ne
-      (call $~lib/map/Map<i64,i32>#get
+      (call $~lib/map/Map<f32,i32>#get
        (get_local $1)
-       (get_local $0)
+       (f32.load offset=4
+        (get_local $4)
+       )
       )
       (i32.add
-       (i32.wrap/i64
-        (get_local $0)
+       (i32.trunc_s/f32
+        (f32.load offset=4
+         (get_local $4)
+        )
        )
        (i32.const 20)
       )
@@ -6670,127 +13324,193 @@
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 21)
+       (i32.const 48)
        (i32.const 4)
       )
       (unreachable)
      )
      (block
-      (set_local $0
-       (i64.add
-        (get_local $0)
-        (i64.const 1)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
       )
-      (br $repeat|1)
+      (br $repeat|4)
      )
     )
    )
   )
   (if
    (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
-     (get_local $1)
+    (i32.load offset=4
+     (get_local $2)
     )
-    (i32.const 100)
+    (i32.const 50)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 23)
+     (i32.const 51)
      (i32.const 2)
     )
     (unreachable)
    )
   )
-  (block $break|2
-   (set_local $0
-    (i64.const 0)
+  (block $break|5
+   (set_local $3
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<f32,i32>#values
+      (get_local $1)
+     )
+    )
    )
-   (loop $repeat|2
-    (br_if $break|2
-     (i64.ge_s
-      (get_local $0)
-      (i64.const 50)
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<i32>#get:done|virtual
+      (get_local $3)
+     )
+    )
+    (i32.store
+     (tee_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store offset=4
+     (get_local $4)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $4)
+     (call $~lib/iterator/Iterator<i32>#next|virtual
+      (get_local $3)
      )
     )
     (if
-     (i32.eqz
-      (call $~lib/map/Map<i64,i32>#has
-       (get_local $1)
-       (get_local $0)
+     (tee_local $5
+      (i32.ge_s
+       (i32.load offset=4
+        (get_local $4)
+       )
+       (i32.const 70)
       )
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
+     (set_local $5
+      (i32.lt_s
+       (i32.load offset=4
+        (get_local $4)
+       )
        (i32.const 120)
-       (i32.const 27)
-       (i32.const 4)
       )
-      (unreachable)
      )
     )
     (if
-     (i32.ne
-      (call $~lib/map/Map<i64,i32>#get
-       (get_local $1)
-       (get_local $0)
-      )
-      (i32.add
-       (i32.wrap/i64
-        (get_local $0)
+     (get_local $5)
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
-       (i32.const 20)
       )
+      (br $repeat|5)
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 28)
+       (i32.const 53)
        (i32.const 4)
       )
       (unreachable)
      )
     )
-    (drop
-     (call $~lib/map/Map<i64,i32>#delete
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 56)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|6
+   (set_local $3
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<f32,i32>#entries
       (get_local $1)
-      (get_local $0)
+     )
+    )
+   )
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<KeyValue<f32,i32>>#get:done|virtual
+      (get_local $3)
      )
     )
     (if
-     (call $~lib/map/Map<i64,i32>#has
-      (get_local $1)
-      (get_local $0)
+     (i32.ne
+      (i32.load offset=4
+       (tee_local $5
+        (call $~lib/iterator/Iterator<KeyValue<f32,i32>>#next|virtual
+         (get_local $3)
+        )
+       )
+      )
+      (i32.add
+       (i32.trunc_s/f32
+        (f32.load
+         (get_local $5)
+        )
+       )
+       (i32.const 20)
+      )
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 30)
+       (i32.const 58)
        (i32.const 4)
       )
       (unreachable)
      )
      (block
-      (set_local $0
-       (i64.add
-        (get_local $0)
-        (i64.const 1)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
       )
-      (br $repeat|2)
+      (br $repeat|6)
      )
     )
    )
   )
   (if
    (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
-     (get_local $1)
+    (i32.load offset=4
+     (get_local $2)
     )
     (i32.const 50)
    )
@@ -6798,101 +13518,100 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 32)
+     (i32.const 61)
      (i32.const 2)
     )
     (unreachable)
    )
   )
-  (block $break|3
-   (set_local $0
-    (i64.const 0)
-   )
-   (loop $repeat|3
-    (br_if $break|3
-     (i64.ge_s
-      (get_local $0)
-      (i64.const 50)
-     )
-    )
-    (if
-     (call $~lib/map/Map<i64,i32>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 36)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-    )
-    (call $~lib/map/Map<i64,i32>#set
+  (block $break|7
+   (set_local $5
+    (call $~lib/map/Map<f32,i32>#__iterator
      (get_local $1)
-     (get_local $0)
-     (i32.add
-      (i32.wrap/i64
-       (get_local $0)
-      )
-      (i32.const 10)
+    )
+   )
+   (loop $repeat|7
+    (br_if $break|7
+     (call $~lib/iterator/Iterator<KeyValue<f32,i32>>#get:done|virtual
+      (get_local $5)
      )
     )
     (if
-     (i32.eqz
-      (call $~lib/map/Map<i64,i32>#has
-       (get_local $1)
-       (get_local $0)
+     (i32.ne
+      (i32.load offset=4
+       (tee_local $3
+        (call $~lib/iterator/Iterator<KeyValue<f32,i32>>#next|virtual
+         (get_local $5)
+        )
+       )
       )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 38)
-       (i32.const 4)
+      (i32.add
+       (i32.trunc_s/f32
+        (f32.load
+         (get_local $3)
+        )
+       )
+       (i32.const 20)
       )
-      (unreachable)
-     )
-    )
-    (drop
-     (call $~lib/map/Map<i64,i32>#delete
-      (get_local $1)
-      (get_local $0)
-     )
-    )
-    (if
-     (call $~lib/map/Map<i64,i32>#has
-      (get_local $1)
-      (get_local $0)
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 40)
+       (i32.const 63)
        (i32.const 4)
       )
       (unreachable)
      )
      (block
-      (set_local $0
-       (i64.add
-        (get_local $0)
-        (i64.const 1)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
       )
-      (br $repeat|3)
+      (br $repeat|7)
      )
     )
    )
   )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 66)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $3
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 8)
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (get_local $2)
+  )
+  (call $~lib/map/Map<f32,i32>#forEach
+   (get_local $1)
+   (get_local $3)
+  )
   (if
    (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
-     (get_local $1)
+    (i32.load offset=4
+     (get_local $2)
     )
     (i32.const 50)
    )
@@ -6900,13 +13619,13 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 42)
+     (i32.const 71)
      (i32.const 2)
     )
     (unreachable)
    )
   )
-  (call $~lib/map/Map<i64,i32>#clear
+  (call $~lib/map/Map<i8,i32>#clear
    (get_local $1)
   )
   (if
@@ -6917,985 +13636,1090 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 46)
+     (i32.const 75)
      (i32.const 2)
     )
     (unreachable)
    )
   )
  )
- (func $std/map/test<u64,i32> (; 57 ;) (; has Stack IR ;) (type $v)
-  (local $0 i64)
-  (local $1 i32)
-  (set_local $1
-   (call $~lib/map/Map<i64,i32>#constructor)
+ (func $~lib/map/Map<f64,i32>#find (; 116 ;) (; has Stack IR ;) (type $iFii) (param $0 i32) (param $1 f64) (param $2 i32) (result i32)
+  (set_local $2
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (i32.shl
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (i32.const 2)
+     )
+    )
+   )
   )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i64.ge_u
+  (loop $continue|0
+   (if
+    (get_local $2)
+    (block
+     (if
+      (tee_local $0
+       (i32.eqz
+        (i32.and
+         (i32.load offset=12
+          (get_local $2)
+         )
+         (i32.const 1)
+        )
+       )
+      )
+      (set_local $0
+       (f64.eq
+        (f64.load
+         (get_local $2)
+        )
+        (get_local $1)
+       )
+      )
+     )
+     (if
       (get_local $0)
-      (i64.const 100)
+      (return
+       (get_local $2)
+      )
+     )
+     (set_local $2
+      (i32.and
+       (i32.load offset=12
+        (get_local $2)
+       )
+       (i32.const -2)
+      )
      )
+     (br $continue|0)
     )
-    (if
-     (call $~lib/map/Map<i64,i32>#has
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/map/Map<f64,i32>#has (; 117 ;) (; has Stack IR ;) (type $iFi) (param $0 i32) (param $1 f64) (result i32)
+  (i32.ne
+   (call $~lib/map/Map<f64,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (call $~lib/internal/hash/hash64
+     (i64.reinterpret/f64
       (get_local $1)
-      (get_local $0)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 8)
-       (i32.const 4)
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/map/Map<f64,i32>#rehash (; 118 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $4
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.shl
+     (tee_local $2
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (i32.const 2)
+    )
+    (i32.const 0)
+   )
+  )
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.shl
+     (tee_local $7
+      (i32.trunc_s/f64
+       (f64.mul
+        (f64.convert_s/i32
+         (get_local $2)
+        )
+        (f64.const 2.6666666666666665)
+       )
       )
-      (unreachable)
      )
+     (i32.const 4)
     )
-    (call $~lib/map/Map<i64,i32>#set
-     (get_local $1)
-     (get_local $0)
+    (i32.const 1)
+   )
+  )
+  (set_local $8
+   (i32.add
+    (tee_local $3
      (i32.add
-      (i32.wrap/i64
+      (i32.load offset=8
        (get_local $0)
       )
-      (i32.const 10)
+      (i32.const 8)
      )
     )
-    (if
-     (i32.eqz
-      (call $~lib/map/Map<i64,i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 10)
-       (i32.const 4)
-      )
-      (unreachable)
+    (i32.shl
+     (i32.load offset=16
+      (get_local $0)
      )
+     (i32.const 4)
     )
-    (if
-     (i32.ne
-      (call $~lib/map/Map<i64,i32>#get
-       (get_local $1)
-       (get_local $0)
-      )
-      (i32.add
-       (i32.wrap/i64
-        (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.add
+    (get_local $5)
+    (i32.const 8)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.ne
+     (get_local $3)
+     (get_local $8)
+    )
+    (block
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=12
+         (get_local $3)
+        )
+        (i32.const 1)
        )
-       (i32.const 10)
       )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 11)
-       (i32.const 4)
+      (block
+       (f64.store
+        (get_local $2)
+        (f64.load
+         (get_local $3)
+        )
+       )
+       (i32.store offset=8
+        (get_local $2)
+        (i32.load offset=8
+         (get_local $3)
+        )
+       )
+       (i32.store offset=12
+        (get_local $2)
+        (i32.load offset=8
+         (tee_local $6
+          (i32.add
+           (get_local $4)
+           (i32.shl
+            (i32.and
+             (tee_local $6
+              (call $~lib/internal/hash/hash64
+               (i64.reinterpret/f64
+                (f64.load
+                 (get_local $3)
+                )
+               )
+              )
+             )
+             (get_local $1)
+            )
+            (i32.const 2)
+           )
+          )
+         )
+        )
+       )
+       (i32.store offset=8
+        (get_local $6)
+        (get_local $2)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 16)
+        )
+       )
       )
-      (unreachable)
      )
-     (block
-      (set_local $0
-       (i64.add
-        (get_local $0)
-        (i64.const 1)
-       )
+     (set_local $3
+      (i32.add
+       (get_local $3)
+       (i32.const 16)
       )
-      (br $repeat|0)
      )
+     (br $continue|0)
     )
    )
   )
+  (i32.store
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $7)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/Map<f64,i32>#set (; 119 ;) (; has Stack IR ;) (type $iFiv) (param $0 i32) (param $1 f64) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
   (if
-   (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
+   (tee_local $3
+    (call $~lib/map/Map<f64,i32>#find
+     (get_local $0)
      (get_local $1)
+     (tee_local $5
+      (call $~lib/internal/hash/hash64
+       (i64.reinterpret/f64
+        (get_local $1)
+       )
+      )
+     )
     )
-    (i32.const 100)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 13)
-     (i32.const 2)
-    )
-    (unreachable)
    )
-  )
-  (block $break|1
-   (set_local $0
-    (i64.const 0)
+   (i32.store offset=8
+    (get_local $3)
+    (get_local $2)
    )
-   (loop $repeat|1
-    (br_if $break|1
-     (i64.ge_u
-      (get_local $0)
-      (i64.const 100)
-     )
-    )
+   (block
     (if
-     (i32.eqz
-      (call $~lib/map/Map<i64,i32>#has
-       (get_local $1)
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
        (get_local $0)
       )
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 17)
-       (i32.const 4)
+     (call $~lib/map/Map<f64,i32>#rehash
+      (get_local $0)
+      (tee_local $3
+       (if (result i32)
+        (i32.lt_s
+         (i32.load offset=20
+          (get_local $0)
+         )
+         (i32.trunc_s/f64
+          (f64.mul
+           (f64.convert_s/i32
+            (i32.load offset=12
+             (get_local $0)
+            )
+           )
+           (f64.const 0.75)
+          )
+         )
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+        (i32.or
+         (i32.shl
+          (i32.load offset=4
+           (get_local $0)
+          )
+          (i32.const 1)
+         )
+         (i32.const 1)
+        )
+       )
       )
-      (unreachable)
      )
     )
-    (if
-     (i32.ne
-      (call $~lib/map/Map<i64,i32>#get
-       (get_local $1)
-       (get_local $0)
-      )
-      (i32.add
-       (i32.wrap/i64
+    (set_local $3
+     (i32.load offset=8
+      (get_local $0)
+     )
+    )
+    (i32.store offset=16
+     (get_local $0)
+     (i32.add
+      (tee_local $4
+       (i32.load offset=16
         (get_local $0)
        )
-       (i32.const 10)
       )
+      (i32.const 1)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 18)
-       (i32.const 4)
+    )
+    (f64.store
+     (tee_local $3
+      (i32.add
+       (i32.add
+        (get_local $3)
+        (i32.const 8)
+       )
+       (i32.shl
+        (get_local $4)
+        (i32.const 4)
+       )
       )
-      (unreachable)
      )
-    )
-    (call $~lib/map/Map<i64,i32>#set
      (get_local $1)
+    )
+    (i32.store offset=8
+     (get_local $3)
+     (get_local $2)
+    )
+    (i32.store offset=20
      (get_local $0)
      (i32.add
-      (i32.wrap/i64
+      (i32.load offset=20
        (get_local $0)
       )
-      (i32.const 20)
+      (i32.const 1)
      )
     )
-    (if
-     (i32.eqz
-      (call $~lib/map/Map<i64,i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 20)
-       (i32.const 4)
+    (i32.store offset=12
+     (get_local $3)
+     (i32.load offset=8
+      (tee_local $4
+       (i32.add
+        (i32.load
+         (get_local $0)
+        )
+        (i32.shl
+         (i32.and
+          (get_local $5)
+          (i32.load offset=4
+           (get_local $0)
+          )
+         )
+         (i32.const 2)
+        )
+       )
       )
-      (unreachable)
      )
     )
-    (if
-     (i32.ne
-      (call $~lib/map/Map<i64,i32>#get
-       (get_local $1)
-       (get_local $0)
-      )
-      (i32.add
-       (i32.wrap/i64
-        (get_local $0)
+    (i32.store offset=8
+     (get_local $4)
+     (get_local $3)
+    )
+   )
+  )
+ )
+ (func $~lib/map/Map<f64,i32>#get (; 120 ;) (; has Stack IR ;) (type $iFi) (param $0 i32) (param $1 f64) (result i32)
+  (tee_local $0
+   (if (result i32)
+    (tee_local $0
+     (call $~lib/map/Map<f64,i32>#find
+      (get_local $0)
+      (get_local $1)
+      (call $~lib/internal/hash/hash64
+       (i64.reinterpret/f64
+        (get_local $1)
        )
-       (i32.const 20)
       )
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 21)
-       (i32.const 4)
+    )
+    (i32.load offset=8
+     (get_local $0)
+    )
+    (unreachable)
+   )
+  )
+ )
+ (func $~lib/map/Map<f64,i32>#delete (; 121 ;) (; has Stack IR ;) (type $iFi) (param $0 i32) (param $1 f64) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eqz
+    (tee_local $0
+     (call $~lib/map/Map<f64,i32>#find
+      (tee_local $2
+       (get_local $0)
       )
-      (unreachable)
-     )
-     (block
-      (set_local $0
-       (i64.add
-        (get_local $0)
-        (i64.const 1)
+      (get_local $1)
+      (tee_local $0
+       (call $~lib/internal/hash/hash64
+        (i64.reinterpret/f64
+         (get_local $1)
+        )
        )
       )
-      (br $repeat|1)
      )
     )
    )
+   (return
+    (i32.const 0)
+   )
   )
-  (if
-   (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
-     (get_local $1)
+  (i32.store offset=12
+   (get_local $0)
+   (i32.or
+    (i32.load offset=12
+     (get_local $0)
     )
-    (i32.const 100)
+    (i32.const 1)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 23)
-     (i32.const 2)
+  )
+  (i32.store offset=20
+   (get_local $2)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $2)
     )
-    (unreachable)
+    (i32.const 1)
    )
   )
-  (block $break|2
-   (set_local $0
-    (i64.const 0)
-   )
-   (loop $repeat|2
-    (br_if $break|2
-     (i64.ge_u
-      (get_local $0)
-      (i64.const 50)
-     )
-    )
-    (if
-     (i32.eqz
-      (call $~lib/map/Map<i64,i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 27)
-       (i32.const 4)
+  (if
+   (tee_local $0
+    (i32.ge_u
+     (i32.add
+      (tee_local $3
+       (i32.shr_u
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
       )
-      (unreachable)
+      (i32.const 1)
      )
-    )
-    (if
-     (i32.ne
-      (call $~lib/map/Map<i64,i32>#get
-       (get_local $1)
-       (get_local $0)
-      )
-      (i32.add
-       (i32.wrap/i64
-        (get_local $0)
+     (select
+      (i32.const 4)
+      (tee_local $0
+       (i32.load offset=20
+        (get_local $2)
        )
-       (i32.const 20)
       )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 28)
+      (i32.gt_u
        (i32.const 4)
+       (get_local $0)
       )
-      (unreachable)
      )
     )
-    (drop
-     (call $~lib/map/Map<i64,i32>#delete
-      (get_local $1)
-      (get_local $0)
-     )
-    )
-    (if
-     (call $~lib/map/Map<i64,i32>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 30)
-       (i32.const 4)
-      )
-      (unreachable)
+   )
+   (set_local $0
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $2)
      )
-     (block
-      (set_local $0
-       (i64.add
-        (get_local $0)
-        (i64.const 1)
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $2)
+        )
        )
+       (f64.const 0.75)
       )
-      (br $repeat|2)
      )
     )
    )
   )
   (if
-   (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
-     (get_local $1)
-    )
-    (i32.const 50)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 32)
-     (i32.const 2)
-    )
-    (unreachable)
+   (get_local $0)
+   (call $~lib/map/Map<f64,i32>#rehash
+    (get_local $2)
+    (get_local $3)
    )
   )
-  (block $break|3
-   (set_local $0
-    (i64.const 0)
-   )
-   (loop $repeat|3
-    (br_if $break|3
-     (i64.ge_u
-      (get_local $0)
-      (i64.const 50)
-     )
-    )
-    (if
-     (call $~lib/map/Map<i64,i32>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 36)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-    )
-    (call $~lib/map/Map<i64,i32>#set
-     (get_local $1)
-     (get_local $0)
+  (i32.const 1)
+ )
+ (func $~lib/map/Map<f64,i32>#keys (; 122 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
      (i32.add
-      (i32.wrap/i64
-       (get_local $0)
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
       )
-      (i32.const 10)
+      (i32.const 8)
      )
     )
-    (if
-     (i32.eqz
-      (call $~lib/map/Map<i64,i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 38)
-       (i32.const 4)
+    (i32.const 4)
+   )
+   (i32.const 125)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<f64,i32>#values (; 123 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
       )
-      (unreachable)
-     )
-    )
-    (drop
-     (call $~lib/map/Map<i64,i32>#delete
-      (get_local $1)
-      (get_local $0)
+      (i32.const 8)
      )
     )
-    (if
-     (call $~lib/map/Map<i64,i32>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 40)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-     (block
-      (set_local $0
-       (i64.add
-        (get_local $0)
-        (i64.const 1)
-       )
+    (i32.const 4)
+   )
+   (i32.const 127)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<f64,i32>#entries (; 124 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
       )
-      (br $repeat|3)
+      (i32.const 8)
      )
     )
+    (i32.const 4)
+   )
+   (i32.const 132)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<f64,i32>#__iterator (; 125 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/map/Map<f64,i32>#entries
+   (get_local $0)
+  )
+ )
+ (func $std/map/test<f64,i32>~anonymous|9 (; 126 ;) (; has Stack IR ;) (type $iFiv) (param $0 i32) (param $1 f64) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
    )
   )
   (if
    (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
-     (get_local $1)
+    (get_local $0)
+    (i32.add
+     (i32.trunc_s/f64
+      (get_local $1)
+     )
+     (i32.const 20)
     )
-    (i32.const 50)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
+     (i32.const 68)
+     (i32.const 4)
     )
     (unreachable)
    )
   )
-  (call $~lib/map/Map<i64,i32>#clear
-   (get_local $1)
-  )
-  (if
-   (call $~lib/map/Map<i8,i32>#get:size
-    (get_local $1)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 46)
-     (i32.const 2)
+  (i32.store offset=4
+   (get_local $3)
+   (i32.add
+    (i32.load offset=4
+     (get_local $3)
     )
-    (unreachable)
+    (i32.const 1)
    )
   )
  )
- (func $~lib/map/Map<f32,i32>#find (; 58 ;) (; has Stack IR ;) (type $ifii) (param $0 i32) (param $1 f32) (param $2 i32) (result i32)
-  (set_local $2
-   (i32.load offset=8
-    (i32.add
-     (i32.load
-      (get_local $0)
-     )
-     (i32.shl
-      (i32.and
-       (get_local $2)
-       (i32.load offset=4
-        (get_local $0)
-       )
+ (func $~lib/map/Map<f64,i32>#forEach (; 127 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 f64)
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (i32.load offset=16
+       (get_local $0)
       )
-      (i32.const 2)
      )
     )
-   )
-  )
-  (loop $continue|0
-   (if
-    (get_local $2)
-    (block
-     (if
-      (tee_local $0
-       (i32.eqz
-        (i32.and
-         (i32.load offset=8
-          (get_local $2)
-         )
-         (i32.const 1)
-        )
-       )
-      )
-      (set_local $0
-       (f32.eq
-        (f32.load
-         (get_local $2)
+    (if
+     (i32.eqz
+      (i32.and
+       (i32.load offset=12
+        (tee_local $3
+         (i32.add
+          (i32.add
+           (i32.load offset=8
+            (get_local $0)
+           )
+           (i32.const 8)
+          )
+          (i32.shl
+           (get_local $2)
+           (i32.const 4)
+          )
+         )
         )
-        (get_local $1)
        )
+       (i32.const 1)
       )
      )
-     (if
-      (get_local $0)
-      (return
-       (get_local $2)
+     (block
+      (set_global $~argc
+       (i32.const 3)
       )
-     )
-     (set_local $2
-      (i32.and
+      (set_local $4
        (i32.load offset=8
-        (get_local $2)
+        (get_local $3)
+       )
+      )
+      (set_local $5
+       (f64.load
+        (get_local $3)
+       )
+      )
+      (set_global $~env
+       (get_local $1)
+      )
+      (call_indirect (type $iFiv)
+       (get_local $4)
+       (get_local $5)
+       (get_local $0)
+       (i32.load
+        (get_global $~env)
        )
-       (i32.const -2)
       )
      )
-     (br $continue|0)
     )
-   )
-  )
-  (i32.const 0)
- )
- (func $~lib/map/Map<f32,i32>#has (; 59 ;) (; has Stack IR ;) (type $ifi) (param $0 i32) (param $1 f32) (result i32)
-  (i32.ne
-   (call $~lib/map/Map<f32,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (call $~lib/internal/hash/hash32
-     (i32.reinterpret/f32
-      (get_local $1)
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
      )
     )
+    (br $repeat|0)
    )
-   (i32.const 0)
   )
  )
- (func $~lib/map/Map<f32,i32>#rehash (; 60 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $std/map/test<f64,i32> (; 128 ;) (; has Stack IR ;) (type $v)
+  (local $0 f64)
+  (local $1 i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (set_local $4
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $2
-      (i32.add
-       (get_local $1)
-       (i32.const 1)
-      )
-     )
-     (i32.const 2)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
     )
-    (i32.const 0)
    )
+   (i32.const 0)
   )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.mul
-     (tee_local $7
-      (i32.trunc_s/f64
-       (f64.mul
-        (f64.convert_s/i32
-         (get_local $2)
-        )
-        (f64.const 2.6666666666666665)
-       )
-      )
-     )
-     (i32.const 12)
-    )
-    (i32.const 1)
-   )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
   )
-  (set_local $8
-   (i32.add
-    (tee_local $3
-     (i32.add
-      (i32.load offset=8
+  (set_local $1
+   (call $~lib/map/Map<i64,i32>#constructor)
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (f64.lt
        (get_local $0)
+       (f64.const 100)
       )
-      (i32.const 8)
      )
     )
-    (i32.mul
-     (i32.load offset=16
+    (if
+     (call $~lib/map/Map<f64,i32>#has
+      (get_local $1)
       (get_local $0)
      )
-     (i32.const 12)
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 8)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
     )
-   )
-  )
-  (set_local $2
-   (i32.add
-    (get_local $5)
-    (i32.const 8)
-   )
-  )
-  (loop $continue|0
-   (if
-    (i32.ne
-     (get_local $3)
-     (get_local $8)
+    (call $~lib/map/Map<f64,i32>#set
+     (get_local $1)
+     (get_local $0)
+     (i32.add
+      (i32.trunc_s/f64
+       (get_local $0)
+      )
+      (i32.const 10)
+     )
     )
-    (block
-     (if
-      (i32.eqz
-       (i32.and
-        (i32.load offset=8
-         (get_local $3)
-        )
-        (i32.const 1)
-       )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<f64,i32>#has
+       (get_local $1)
+       (get_local $0)
       )
-      (block
-       (f32.store
-        (get_local $2)
-        (f32.load
-         (get_local $3)
-        )
-       )
-       (i32.store offset=4
-        (get_local $2)
-        (i32.load offset=4
-         (get_local $3)
-        )
-       )
-       (i32.store offset=8
-        (get_local $2)
-        (i32.load offset=8
-         (tee_local $6
-          (i32.add
-           (get_local $4)
-           (i32.shl
-            (i32.and
-             (tee_local $6
-              (call $~lib/internal/hash/hash32
-               (i32.reinterpret/f32
-                (f32.load
-                 (get_local $3)
-                )
-               )
-              )
-             )
-             (get_local $1)
-            )
-            (i32.const 2)
-           )
-          )
-         )
-        )
-       )
-       (i32.store offset=8
-        (get_local $6)
-        (get_local $2)
-       )
-       (set_local $2
-        (i32.add
-         (get_local $2)
-         (i32.const 12)
-        )
-       )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 10)
+       (i32.const 4)
       )
+      (unreachable)
      )
-     (set_local $3
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<f64,i32>#get
+       (get_local $1)
+       (get_local $0)
+      )
       (i32.add
-       (get_local $3)
-       (i32.const 12)
+       (i32.trunc_s/f64
+        (get_local $0)
+       )
+       (i32.const 10)
       )
      )
-     (br $continue|0)
-    )
-   )
-  )
-  (i32.store
-   (get_local $0)
-   (get_local $4)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $7)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
-   )
-  )
- )
- (func $~lib/map/Map<f32,i32>#set (; 61 ;) (; has Stack IR ;) (type $ifiv) (param $0 i32) (param $1 f32) (param $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (if
-   (tee_local $3
-    (call $~lib/map/Map<f32,i32>#find
-     (get_local $0)
-     (get_local $1)
-     (tee_local $5
-      (call $~lib/internal/hash/hash32
-       (i32.reinterpret/f32
-        (get_local $1)
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 11)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (f64.add
+        (get_local $0)
+        (f64.const 1)
        )
       )
+      (br $repeat|0)
      )
     )
    )
-   (i32.store offset=4
-    (get_local $3)
-    (get_local $2)
+  )
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
    )
    (block
-    (if
-     (i32.eq
-      (i32.load offset=16
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 13)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|1
+   (set_local $0
+    (f64.const 0)
+   )
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.eqz
+      (f64.lt
        (get_local $0)
+       (f64.const 100)
       )
-      (i32.load offset=12
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<f64,i32>#has
+       (get_local $1)
        (get_local $0)
       )
      )
-     (call $~lib/map/Map<f32,i32>#rehash
-      (get_local $0)
-      (tee_local $3
-       (if (result i32)
-        (i32.lt_s
-         (i32.load offset=20
-          (get_local $0)
-         )
-         (i32.trunc_s/f64
-          (f64.mul
-           (f64.convert_s/i32
-            (i32.load offset=12
-             (get_local $0)
-            )
-           )
-           (f64.const 0.75)
-          )
-         )
-        )
-        (i32.load offset=4
-         (get_local $0)
-        )
-        (i32.or
-         (i32.shl
-          (i32.load offset=4
-           (get_local $0)
-          )
-          (i32.const 1)
-         )
-         (i32.const 1)
-        )
-       )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 17)
+       (i32.const 4)
       )
+      (unreachable)
      )
     )
-    (set_local $3
-     (i32.load offset=8
-      (get_local $0)
-     )
-    )
-    (i32.store offset=16
-     (get_local $0)
-     (i32.add
-      (tee_local $4
-       (i32.load offset=16
+    (if
+     (i32.ne
+      (call $~lib/map/Map<f64,i32>#get
+       (get_local $1)
+       (get_local $0)
+      )
+      (i32.add
+       (i32.trunc_s/f64
         (get_local $0)
        )
+       (i32.const 10)
       )
-      (i32.const 1)
      )
-    )
-    (f32.store
-     (tee_local $3
-      (i32.add
-       (i32.add
-        (get_local $3)
-        (i32.const 8)
-       )
-       (i32.mul
-        (get_local $4)
-        (i32.const 12)
-       )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 18)
+       (i32.const 4)
       )
+      (unreachable)
      )
-     (get_local $1)
-    )
-    (i32.store offset=4
-     (get_local $3)
-     (get_local $2)
     )
-    (i32.store offset=20
+    (call $~lib/map/Map<f64,i32>#set
+     (get_local $1)
      (get_local $0)
      (i32.add
-      (i32.load offset=20
+      (i32.trunc_s/f64
        (get_local $0)
       )
-      (i32.const 1)
+      (i32.const 20)
      )
     )
-    (i32.store offset=8
-     (get_local $3)
-     (i32.load offset=8
-      (tee_local $4
-       (i32.add
-        (i32.load
-         (get_local $0)
-        )
-        (i32.shl
-         (i32.and
-          (get_local $5)
-          (i32.load offset=4
-           (get_local $0)
-          )
-         )
-         (i32.const 2)
-        )
-       )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<f64,i32>#has
+       (get_local $1)
+       (get_local $0)
       )
      )
-    )
-    (i32.store offset=8
-     (get_local $4)
-     (get_local $3)
-    )
-   )
-  )
- )
- (func $~lib/map/Map<f32,i32>#get (; 62 ;) (; has Stack IR ;) (type $ifi) (param $0 i32) (param $1 f32) (result i32)
-  (tee_local $0
-   (if (result i32)
-    (tee_local $0
-     (call $~lib/map/Map<f32,i32>#find
-      (get_local $0)
-      (get_local $1)
-      (call $~lib/internal/hash/hash32
-       (i32.reinterpret/f32
-        (get_local $1)
-       )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 20)
+       (i32.const 4)
       )
+      (unreachable)
      )
     )
-    (i32.load offset=4
-     (get_local $0)
-    )
-    (unreachable)
-   )
-  )
- )
- (func $~lib/map/Map<f32,i32>#delete (; 63 ;) (; has Stack IR ;) (type $ifi) (param $0 i32) (param $1 f32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (if
-   (i32.eqz
-    (tee_local $0
-     (call $~lib/map/Map<f32,i32>#find
-      (tee_local $2
+    (if
+     (i32.ne
+      (call $~lib/map/Map<f64,i32>#get
+       (get_local $1)
        (get_local $0)
       )
-      (get_local $1)
-      (tee_local $0
-       (call $~lib/internal/hash/hash32
-        (i32.reinterpret/f32
-         (get_local $1)
-        )
+      (i32.add
+       (i32.trunc_s/f64
+        (get_local $0)
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 21)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (f64.add
+        (get_local $0)
+        (f64.const 1)
        )
       )
+      (br $repeat|1)
      )
     )
    )
-   (return
-    (i32.const 0)
-   )
   )
-  (i32.store offset=8
-   (get_local $0)
-   (i32.or
-    (i32.load offset=8
-     (get_local $0)
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 23)
+     (i32.const 2)
     )
-    (i32.const 1)
+    (unreachable)
    )
   )
-  (i32.store offset=20
-   (get_local $2)
-   (i32.sub
-    (i32.load offset=20
-     (get_local $2)
-    )
-    (i32.const 1)
+  (block $break|2
+   (set_local $0
+    (f64.const 0)
    )
-  )
-  (if
-   (tee_local $0
-    (i32.ge_u
-     (i32.add
-      (tee_local $3
-       (i32.shr_u
-        (i32.load offset=4
-         (get_local $2)
-        )
-        (i32.const 1)
-       )
+   (loop $repeat|2
+    (br_if $break|2
+     (i32.eqz
+      (f64.lt
+       (get_local $0)
+       (f64.const 50)
       )
-      (i32.const 1)
      )
-     (select
-      (i32.const 4)
-      (tee_local $0
-       (i32.load offset=20
-        (get_local $2)
-       )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/map/Map<f64,i32>#has
+       (get_local $1)
+       (get_local $0)
       )
-      (i32.gt_u
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 27)
        (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.ne
+      (call $~lib/map/Map<f64,i32>#get
+       (get_local $1)
        (get_local $0)
       )
+      (i32.add
+       (i32.trunc_s/f64
+        (get_local $0)
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 28)
+       (i32.const 4)
+      )
+      (unreachable)
      )
     )
-   )
-   (set_local $0
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $2)
+    (drop
+     (call $~lib/map/Map<f64,i32>#delete
+      (get_local $1)
+      (get_local $0)
      )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $2)
-        )
+    )
+    (if
+     (call $~lib/map/Map<f64,i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 30)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (f64.add
+        (get_local $0)
+        (f64.const 1)
        )
-       (f64.const 0.75)
       )
+      (br $repeat|2)
      )
     )
    )
   )
   (if
-   (get_local $0)
-   (call $~lib/map/Map<f32,i32>#rehash
-    (get_local $2)
-    (get_local $3)
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 32)
+     (i32.const 2)
+    )
+    (unreachable)
    )
   )
-  (i32.const 1)
- )
- (func $std/map/test<f32,i32> (; 64 ;) (; has Stack IR ;) (type $v)
-  (local $0 f32)
-  (local $1 i32)
-  (set_local $1
-   (call $~lib/map/Map<i8,i32>#constructor)
-  )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
+  (block $break|3
+   (set_local $0
+    (f64.const 0)
+   )
+   (loop $repeat|3
+    (br_if $break|3
      (i32.eqz
-      (f32.lt
+      (f64.lt
        (get_local $0)
-       (f32.const 100)
+       (f64.const 50)
       )
      )
     )
     (if
-     (call $~lib/map/Map<f32,i32>#has
+     (call $~lib/map/Map<f64,i32>#has
       (get_local $1)
       (get_local $0)
      )
@@ -7903,17 +14727,17 @@
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 8)
+       (i32.const 36)
        (i32.const 4)
       )
       (unreachable)
      )
     )
-    (call $~lib/map/Map<f32,i32>#set
+    (call $~lib/map/Map<f64,i32>#set
      (get_local $1)
      (get_local $0)
      (i32.add
-      (i32.trunc_s/f32
+      (i32.trunc_s/f64
        (get_local $0)
       )
       (i32.const 10)
@@ -7921,7 +14745,7 @@
     )
     (if
      (i32.eqz
-      (call $~lib/map/Map<f32,i32>#has
+      (call $~lib/map/Map<f64,i32>#has
        (get_local $1)
        (get_local $0)
       )
@@ -7930,7 +14754,124 @@
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 10)
+       (i32.const 38)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (drop
+     (call $~lib/map/Map<f64,i32>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/map/Map<f64,i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 40)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (f64.add
+        (get_local $0)
+        (f64.const 1)
+       )
+      )
+      (br $repeat|3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/map/Map<i8,i32>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 42)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block $break|4
+   (set_local $3
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<f64,i32>#keys
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<f64>#get:done|virtual
+      (get_local $3)
+     )
+    )
+    (i32.store
+     (tee_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+     )
+     (get_local $2)
+    )
+    (f64.store offset=8
+     (get_local $4)
+     (f64.const 0)
+    )
+    (f64.store offset=8
+     (get_local $4)
+     (call $~lib/iterator/Iterator<f64>#next|virtual
+      (get_local $3)
+     )
+    )
+    (if
+     (tee_local $5
+      (f64.ge
+       (f64.load offset=8
+        (get_local $4)
+       )
+       (f64.const 50)
+      )
+     )
+     (set_local $5
+      (f64.lt
+       (f64.load offset=8
+        (get_local $4)
+       )
+       (f64.const 100)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (get_local $5)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 47)
        (i32.const 4)
       )
       (unreachable)
@@ -7938,1375 +14879,2009 @@
     )
     (if
      (i32.ne
-      (call $~lib/map/Map<f32,i32>#get
+      (call $~lib/map/Map<f64,i32>#get
        (get_local $1)
-       (get_local $0)
+       (f64.load offset=8
+        (get_local $4)
+       )
       )
       (i32.add
-       (i32.trunc_s/f32
-        (get_local $0)
+       (i32.trunc_s/f64
+        (f64.load offset=8
+         (get_local $4)
+        )
        )
-       (i32.const 10)
+       (i32.const 20)
       )
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 11)
+       (i32.const 48)
        (i32.const 4)
       )
       (unreachable)
      )
      (block
-      (set_local $0
-       (f32.add
-        (get_local $0)
-        (f32.const 1)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
       )
-      (br $repeat|0)
+      (br $repeat|4)
      )
     )
    )
   )
   (if
    (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
-     (get_local $1)
+    (i32.load offset=4
+     (get_local $2)
     )
-    (i32.const 100)
+    (i32.const 50)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 13)
+     (i32.const 51)
      (i32.const 2)
     )
     (unreachable)
    )
   )
-  (block $break|1
-   (set_local $0
-    (f32.const 0)
+  (block $break|5
+   (set_local $3
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<f64,i32>#values
+      (get_local $1)
+     )
+    )
    )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.eqz
-      (f32.lt
-       (get_local $0)
-       (f32.const 100)
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<i32>#get:done|virtual
+      (get_local $3)
+     )
+    )
+    (i32.store
+     (tee_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
       )
      )
+     (get_local $2)
+    )
+    (i32.store offset=4
+     (get_local $4)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $4)
+     (call $~lib/iterator/Iterator<i32>#next|virtual
+      (get_local $3)
+     )
     )
     (if
-     (i32.eqz
-      (call $~lib/map/Map<f32,i32>#has
-       (get_local $1)
-       (get_local $0)
+     (tee_local $5
+      (i32.ge_s
+       (i32.load offset=4
+        (get_local $4)
+       )
+       (i32.const 70)
+      )
+     )
+     (set_local $5
+      (i32.lt_s
+       (i32.load offset=4
+        (get_local $4)
+       )
+       (i32.const 120)
+      )
+     )
+    )
+    (if
+     (get_local $5)
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
       )
+      (br $repeat|5)
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 17)
+       (i32.const 53)
        (i32.const 4)
       )
       (unreachable)
      )
     )
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 56)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|6
+   (set_local $3
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/map/Map<f64,i32>#entries
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<KeyValue<f64,i32>>#get:done|virtual
+      (get_local $3)
+     )
+    )
     (if
      (i32.ne
-      (call $~lib/map/Map<f32,i32>#get
-       (get_local $1)
-       (get_local $0)
+      (i32.load offset=8
+       (tee_local $5
+        (call $~lib/iterator/Iterator<KeyValue<f64,i32>>#next|virtual
+         (get_local $3)
+        )
+       )
       )
       (i32.add
-       (i32.trunc_s/f32
-        (get_local $0)
+       (i32.trunc_s/f64
+        (f64.load
+         (get_local $5)
+        )
        )
-       (i32.const 10)
+       (i32.const 20)
       )
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 18)
+       (i32.const 58)
        (i32.const 4)
       )
       (unreachable)
      )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|6)
+     )
     )
-    (call $~lib/map/Map<f32,i32>#set
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 61)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|7
+   (set_local $5
+    (call $~lib/map/Map<f64,i32>#__iterator
      (get_local $1)
-     (get_local $0)
-     (i32.add
-      (i32.trunc_s/f32
-       (get_local $0)
+    )
+   )
+   (loop $repeat|7
+    (br_if $break|7
+     (call $~lib/iterator/Iterator<KeyValue<f64,i32>>#get:done|virtual
+      (get_local $5)
+     )
+    )
+    (if
+     (i32.ne
+      (i32.load offset=8
+       (tee_local $3
+        (call $~lib/iterator/Iterator<KeyValue<f64,i32>>#next|virtual
+         (get_local $5)
+        )
+       )
       )
-      (i32.const 20)
+      (i32.add
+       (i32.trunc_s/f64
+        (f64.load
+         (get_local $3)
+        )
+       )
+       (i32.const 20)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 63)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|7)
+     )
+    )
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 66)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $3
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 9)
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (get_local $2)
+  )
+  (call $~lib/map/Map<f64,i32>#forEach
+   (get_local $1)
+   (get_local $3)
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 71)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/map/Map<i64,i32>#clear
+   (get_local $1)
+  )
+  (if
+   (call $~lib/map/Map<i8,i32>#get:size
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 75)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<i8,i32,i8>#get:done (; 129 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $1
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=16
+    (tee_local $3
+     (i32.load
+      (get_local $0)
      )
     )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
     (if
-     (i32.eqz
-      (call $~lib/map/Map<f32,i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
+     (i32.lt_s
+      (get_local $1)
+      (get_local $2)
      )
      (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 20)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-    )
-    (if
-     (i32.ne
-      (call $~lib/map/Map<f32,i32>#get
-       (get_local $1)
-       (get_local $0)
-      )
-      (i32.add
-       (i32.trunc_s/f32
-        (get_local $0)
+      (br_if $break|0
+       (i32.eqz
+        (i32.and
+         (i32.load offset=8
+          (i32.add
+           (i32.add
+            (i32.load offset=8
+             (get_local $3)
+            )
+            (i32.const 8)
+           )
+           (i32.mul
+            (get_local $1)
+            (i32.const 12)
+           )
+          )
+         )
+         (i32.const 1)
+        )
        )
-       (i32.const 20)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 21)
-       (i32.const 4)
       )
-      (unreachable)
-     )
-     (block
-      (set_local $0
-       (f32.add
-        (get_local $0)
-        (f32.const 1)
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
        )
       )
-      (br $repeat|1)
+      (br $continue|0)
      )
     )
    )
   )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.ge_s
+   (get_local $1)
+   (get_local $2)
+  )
+ )
+ (func $~lib/map/MapIterator<i8,i32,i8>#nextEntry (; 130 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
   (if
-   (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
-     (get_local $1)
-    )
-    (i32.const 100)
+   (call $~lib/map/MapIterator<i8,i32,i8>#get:done
+    (get_local $0)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 23)
-     (i32.const 2)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
     )
     (unreachable)
    )
   )
-  (block $break|2
-   (set_local $0
-    (f32.const 0)
-   )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (f32.lt
-       (get_local $0)
-       (f32.const 50)
-      )
+  (set_local $1
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
      )
     )
-    (if
-     (i32.eqz
-      (call $~lib/map/Map<f32,i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
+    (i32.const 8)
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.add
+    (tee_local $0
+     (i32.load offset=4
+      (get_local $0)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 27)
-       (i32.const 4)
-      )
-      (unreachable)
+    )
+    (i32.const 1)
+   )
+  )
+  (i32.add
+   (get_local $1)
+   (i32.mul
+    (get_local $0)
+    (i32.const 12)
+   )
+  )
+ )
+ (func $~lib/map/MapKeyIterator<i8,i32>#next (; 131 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load8_s
+   (call $~lib/map/MapIterator<i8,i32,i8>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<i64,i32,i32>#get:done (; 132 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $1
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=16
+    (tee_local $3
+     (i32.load
+      (get_local $0)
      )
     )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
     (if
-     (i32.ne
-      (call $~lib/map/Map<f32,i32>#get
-       (get_local $1)
-       (get_local $0)
+     (i32.lt_s
+      (get_local $1)
+      (get_local $2)
+     )
+     (block
+      (br_if $break|0
+       (i32.eqz
+        (i32.and
+         (i32.load offset=12
+          (i32.add
+           (i32.add
+            (i32.load offset=8
+             (get_local $3)
+            )
+            (i32.const 8)
+           )
+           (i32.shl
+            (get_local $1)
+            (i32.const 4)
+           )
+          )
+         )
+         (i32.const 1)
+        )
+       )
       )
-      (i32.add
-       (i32.trunc_s/f32
-        (get_local $0)
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
        )
-       (i32.const 20)
       )
+      (br $continue|0)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 28)
-       (i32.const 4)
-      )
-      (unreachable)
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.ge_s
+   (get_local $1)
+   (get_local $2)
+  )
+ )
+ (func $~lib/map/MapValueIterator<i8,i32>#next (; 133 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=4
+   (call $~lib/map/MapIterator<i8,i32,i8>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapKeyIterator<i32,i32>#next (; 134 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load
+   (call $~lib/map/MapIterator<i8,i32,i8>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<i64,i32,i32>#nextEntry (; 135 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<i64,i32,i32>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $1
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
      )
     )
-    (drop
-     (call $~lib/map/Map<f32,i32>#delete
-      (get_local $1)
+    (i32.const 8)
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.add
+    (tee_local $0
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+    (i32.const 1)
+   )
+  )
+  (i32.add
+   (get_local $1)
+   (i32.shl
+    (get_local $0)
+    (i32.const 4)
+   )
+  )
+ )
+ (func $~lib/map/MapValueIterator<i64,i32>#next (; 136 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=8
+   (call $~lib/map/MapIterator<i64,i32,i32>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<i8,i32>#constructor (; 137 ;) (; has Stack IR ;) (type $FUNCSIG$iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (i32.store8
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (get_local $0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (get_local $1)
+  )
+  (get_local $2)
+ )
+ (func $~lib/map/MapEntryIterator<i8,i32>#next (; 138 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/map/KeyValue<i8,i32>#constructor
+   (i32.load8_s
+    (tee_local $1
+     (call $~lib/map/MapIterator<i8,i32,i8>#nextEntry
       (get_local $0)
      )
     )
-    (if
-     (call $~lib/map/Map<f32,i32>#has
-      (get_local $1)
+   )
+   (i32.load offset=4
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/map/MapKeyIterator<u8,i32>#next (; 139 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load8_u
+   (call $~lib/map/MapIterator<i8,i32,i8>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapEntryIterator<u8,i32>#next (; 140 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/map/KeyValue<i8,i32>#constructor
+   (i32.load8_u
+    (tee_local $1
+     (call $~lib/map/MapIterator<i8,i32,i8>#nextEntry
       (get_local $0)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 30)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-     (block
-      (set_local $0
-       (f32.add
-        (get_local $0)
-        (f32.const 1)
-       )
-      )
-      (br $repeat|2)
-     )
     )
    )
+   (i32.load offset=4
+    (get_local $1)
+   )
   )
-  (if
-   (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
-     (get_local $1)
+ )
+ (func $~lib/map/MapKeyIterator<i16,i32>#next (; 141 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load16_s
+   (call $~lib/map/MapIterator<i8,i32,i8>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<i16,i32>#constructor (; 142 ;) (; has Stack IR ;) (type $FUNCSIG$iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (i32.store16
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
     )
-    (i32.const 50)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 32)
-     (i32.const 2)
+   (get_local $0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (get_local $1)
+  )
+  (get_local $2)
+ )
+ (func $~lib/map/MapEntryIterator<i16,i32>#next (; 143 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/map/KeyValue<i16,i32>#constructor
+   (i32.load16_s
+    (tee_local $1
+     (call $~lib/map/MapIterator<i8,i32,i8>#nextEntry
+      (get_local $0)
+     )
     )
-    (unreachable)
+   )
+   (i32.load offset=4
+    (get_local $1)
    )
   )
-  (block $break|3
-   (set_local $0
-    (f32.const 0)
+ )
+ (func $~lib/map/MapKeyIterator<u16,i32>#next (; 144 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load16_u
+   (call $~lib/map/MapIterator<i8,i32,i8>#nextEntry
+    (get_local $0)
    )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (f32.lt
-       (get_local $0)
-       (f32.const 50)
-      )
+  )
+ )
+ (func $~lib/map/MapEntryIterator<u16,i32>#next (; 145 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/map/KeyValue<i16,i32>#constructor
+   (i32.load16_u
+    (tee_local $1
+     (call $~lib/map/MapIterator<i8,i32,i8>#nextEntry
+      (get_local $0)
      )
     )
-    (if
-     (call $~lib/map/Map<f32,i32>#has
-      (get_local $1)
+   )
+   (i32.load offset=4
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<i32,i32>#constructor (; 146 ;) (; has Stack IR ;) (type $FUNCSIG$iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (get_local $0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (get_local $1)
+  )
+  (get_local $2)
+ )
+ (func $~lib/map/MapEntryIterator<i32,i32>#next (; 147 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/map/KeyValue<i32,i32>#constructor
+   (i32.load
+    (tee_local $1
+     (call $~lib/map/MapIterator<i8,i32,i8>#nextEntry
       (get_local $0)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 36)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
     )
-    (call $~lib/map/Map<f32,i32>#set
-     (get_local $1)
-     (get_local $0)
-     (i32.add
-      (i32.trunc_s/f32
-       (get_local $0)
-      )
-      (i32.const 10)
-     )
+   )
+   (i32.load offset=4
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/map/MapKeyIterator<i64,i32>#next (; 148 ;) (; has Stack IR ;) (type $iI) (param $0 i32) (result i64)
+  (i64.load
+   (call $~lib/map/MapIterator<i64,i32,i32>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<i64,i32>#constructor (; 149 ;) (; has Stack IR ;) (type $FUNCSIG$iji) (param $0 i64) (param $1 i32) (result i32)
+  (local $2 i32)
+  (i64.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 12)
     )
-    (if
-     (i32.eqz
-      (call $~lib/map/Map<f32,i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 38)
-       (i32.const 4)
-      )
-      (unreachable)
+   )
+   (get_local $0)
+  )
+  (i32.store offset=8
+   (get_local $2)
+   (get_local $1)
+  )
+  (get_local $2)
+ )
+ (func $~lib/map/MapEntryIterator<i64,i32>#next (; 150 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/map/KeyValue<i64,i32>#constructor
+   (i64.load
+    (tee_local $1
+     (call $~lib/map/MapIterator<i64,i32,i32>#nextEntry
+      (get_local $0)
      )
     )
-    (drop
-     (call $~lib/map/Map<f32,i32>#delete
-      (get_local $1)
+   )
+   (i32.load offset=8
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/map/MapKeyIterator<f32,i32>#next (; 151 ;) (; has Stack IR ;) (type $if) (param $0 i32) (result f32)
+  (f32.load
+   (call $~lib/map/MapIterator<i8,i32,i8>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<f32,i32>#constructor (; 152 ;) (; has Stack IR ;) (type $FUNCSIG$ifi) (param $0 f32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (f32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (get_local $0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (get_local $1)
+  )
+  (get_local $2)
+ )
+ (func $~lib/map/MapEntryIterator<f32,i32>#next (; 153 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/map/KeyValue<f32,i32>#constructor
+   (f32.load
+    (tee_local $1
+     (call $~lib/map/MapIterator<i8,i32,i8>#nextEntry
       (get_local $0)
      )
     )
-    (if
-     (call $~lib/map/Map<f32,i32>#has
-      (get_local $1)
+   )
+   (i32.load offset=4
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/map/MapKeyIterator<f64,i32>#next (; 154 ;) (; has Stack IR ;) (type $iF) (param $0 i32) (result f64)
+  (f64.load
+   (call $~lib/map/MapIterator<i64,i32,i32>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<f64,i32>#constructor (; 155 ;) (; has Stack IR ;) (type $FUNCSIG$idi) (param $0 f64) (param $1 i32) (result i32)
+  (local $2 i32)
+  (f64.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 12)
+    )
+   )
+   (get_local $0)
+  )
+  (i32.store offset=8
+   (get_local $2)
+   (get_local $1)
+  )
+  (get_local $2)
+ )
+ (func $~lib/map/MapEntryIterator<f64,i32>#next (; 156 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/map/KeyValue<f64,i32>#constructor
+   (f64.load
+    (tee_local $1
+     (call $~lib/map/MapIterator<i64,i32,i32>#nextEntry
       (get_local $0)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 40)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-     (block
-      (set_local $0
-       (f32.add
+    )
+   )
+   (i32.load offset=8
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/iterator/Iterator<i8>#get:done|virtual (; 157 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
         (get_local $0)
-        (f32.const 1)
+        (i32.const 4)
        )
       )
-      (br $repeat|3)
      )
+     (i32.const 8)
     )
-   )
-  )
-  (if
-   (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
+    (i32.eq
      (get_local $1)
+     (i32.const 9)
     )
-    (i32.const 50)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
+   (return
+    (call $~lib/map/MapIterator<i8,i32,i8>#get:done
+     (get_local $0)
     )
-    (unreachable)
    )
   )
-  (call $~lib/map/Map<i8,i32>#clear
-   (get_local $1)
-  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i8>#next|virtual (; 158 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (if
-   (call $~lib/map/Map<i8,i32>#get:size
-    (get_local $1)
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
+     )
+    )
+    (i32.const 9)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 46)
-     (i32.const 2)
+   (return
+    (call $~lib/map/MapKeyIterator<i8,i32>#next
+     (get_local $0)
     )
-    (unreachable)
    )
   )
+  (unreachable)
  )
- (func $~lib/map/Map<f64,i32>#find (; 65 ;) (; has Stack IR ;) (type $iFii) (param $0 i32) (param $1 f64) (param $2 i32) (result i32)
-  (set_local $2
-   (i32.load offset=8
-    (i32.add
-     (i32.load
-      (get_local $0)
-     )
-     (i32.shl
-      (i32.and
-       (get_local $2)
-       (i32.load offset=4
-        (get_local $0)
+ (func $~lib/iterator/Iterator<i32>#get:done|virtual (; 159 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (block $folding-inner0
+   (br_if $folding-inner0
+    (i32.or
+     (i32.eq
+      (tee_local $1
+       (i32.load
+        (i32.sub
+         (get_local $0)
+         (i32.const 4)
+        )
        )
       )
-      (i32.const 2)
+      (i32.const 12)
+     )
+     (i32.eq
+      (get_local $1)
+      (i32.const 13)
      )
     )
    )
-  )
-  (loop $continue|0
-   (if
-    (get_local $2)
-    (block
-     (if
-      (tee_local $0
-       (i32.eqz
-        (i32.and
-         (i32.load offset=12
-          (get_local $2)
-         )
-         (i32.const 1)
-        )
-       )
-      )
-      (set_local $0
-       (f64.eq
-        (f64.load
-         (get_local $2)
-        )
-        (get_local $1)
-       )
-      )
+   (br_if $folding-inner0
+    (i32.or
+     (i32.eq
+      (get_local $1)
+      (i32.const 25)
      )
-     (if
-      (get_local $0)
-      (return
-       (get_local $2)
-      )
+     (i32.eq
+      (get_local $1)
+      (i32.const 26)
      )
-     (set_local $2
-      (i32.and
-       (i32.load offset=12
-        (get_local $2)
-       )
-       (i32.const -2)
-      )
+    )
+   )
+   (br_if $folding-inner0
+    (i32.or
+     (i32.eq
+      (get_local $1)
+      (i32.const 38)
+     )
+     (i32.eq
+      (get_local $1)
+      (i32.const 39)
      )
-     (br $continue|0)
     )
    )
-  )
-  (i32.const 0)
- )
- (func $~lib/map/Map<f64,i32>#has (; 66 ;) (; has Stack IR ;) (type $iFi) (param $0 i32) (param $1 f64) (result i32)
-  (i32.ne
-   (call $~lib/map/Map<f64,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (call $~lib/internal/hash/hash64
-     (i64.reinterpret/f64
+   (br_if $folding-inner0
+    (i32.or
+     (i32.eq
+      (get_local $1)
+      (i32.const 51)
+     )
+     (i32.eq
       (get_local $1)
+      (i32.const 52)
      )
     )
    )
-   (i32.const 0)
-  )
- )
- (func $~lib/map/Map<f64,i32>#rehash (; 67 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (set_local $4
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $2
-      (i32.add
+   (br_if $folding-inner0
+    (i32.or
+     (i32.or
+      (i32.eq
        (get_local $1)
-       (i32.const 1)
+       (i32.const 60)
+      )
+      (i32.eq
+       (get_local $1)
+       (i32.const 61)
       )
      )
-     (i32.const 2)
+     (i32.eq
+      (get_local $1)
+      (i32.const 62)
+     )
     )
-    (i32.const 0)
    )
-  )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $7
-      (i32.trunc_s/f64
-       (f64.mul
-        (f64.convert_s/i32
-         (get_local $2)
-        )
-        (f64.const 2.6666666666666665)
-       )
-      )
+   (br_if $folding-inner0
+    (i32.or
+     (i32.eq
+      (get_local $1)
+      (i32.const 74)
+     )
+     (i32.eq
+      (get_local $1)
+      (i32.const 75)
      )
-     (i32.const 4)
     )
-    (i32.const 1)
    )
-  )
-  (set_local $8
-   (i32.add
-    (tee_local $3
-     (i32.add
-      (i32.load offset=8
-       (get_local $0)
-      )
-      (i32.const 8)
+   (if
+    (i32.or
+     (i32.eq
+      (get_local $1)
+      (i32.const 87)
+     )
+     (i32.eq
+      (get_local $1)
+      (i32.const 88)
      )
     )
-    (i32.shl
-     (i32.load offset=16
+    (return
+     (call $~lib/map/MapIterator<i64,i32,i32>#get:done
       (get_local $0)
      )
-     (i32.const 4)
     )
    )
-  )
-  (set_local $2
-   (i32.add
-    (get_local $5)
-    (i32.const 8)
-   )
-  )
-  (loop $continue|0
    (if
-    (i32.ne
-     (get_local $3)
-     (get_local $8)
+    (i32.or
+     (i32.eq
+      (get_local $1)
+      (i32.const 100)
+     )
+     (i32.eq
+      (get_local $1)
+      (i32.const 101)
+     )
     )
-    (block
-     (if
-      (i32.eqz
-       (i32.and
-        (i32.load offset=12
-         (get_local $3)
-        )
-        (i32.const 1)
-       )
-      )
-      (block
-       (f64.store
-        (get_local $2)
-        (f64.load
-         (get_local $3)
-        )
-       )
-       (i32.store offset=8
-        (get_local $2)
-        (i32.load offset=8
-         (get_local $3)
-        )
-       )
-       (i32.store offset=12
-        (get_local $2)
-        (i32.load offset=8
-         (tee_local $6
-          (i32.add
-           (get_local $4)
-           (i32.shl
-            (i32.and
-             (tee_local $6
-              (call $~lib/internal/hash/hash64
-               (i64.reinterpret/f64
-                (f64.load
-                 (get_local $3)
-                )
-               )
-              )
-             )
-             (get_local $1)
-            )
-            (i32.const 2)
-           )
-          )
-         )
-        )
-       )
-       (i32.store offset=8
-        (get_local $6)
-        (get_local $2)
-       )
-       (set_local $2
-        (i32.add
-         (get_local $2)
-         (i32.const 16)
-        )
-       )
-      )
+    (return
+     (call $~lib/map/MapIterator<i64,i32,i32>#get:done
+      (get_local $0)
+     )
+    )
+   )
+   (br_if $folding-inner0
+    (i32.or
+     (i32.eq
+      (get_local $1)
+      (i32.const 113)
+     )
+     (i32.eq
+      (get_local $1)
+      (i32.const 114)
+     )
+    )
+   )
+   (if
+    (i32.or
+     (i32.eq
+      (get_local $1)
+      (i32.const 126)
+     )
+     (i32.eq
+      (get_local $1)
+      (i32.const 127)
      )
-     (set_local $3
-      (i32.add
-       (get_local $3)
-       (i32.const 16)
-      )
+    )
+    (return
+     (call $~lib/map/MapIterator<i64,i32,i32>#get:done
+      (get_local $0)
      )
-     (br $continue|0)
     )
    )
+   (unreachable)
   )
-  (i32.store
-   (get_local $0)
-   (get_local $4)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $7)
-  )
-  (i32.store offset=16
+  (call $~lib/map/MapIterator<i8,i32,i8>#get:done
    (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
-   )
   )
  )
- (func $~lib/map/Map<f64,i32>#set (; 68 ;) (; has Stack IR ;) (type $iFiv) (param $0 i32) (param $1 f64) (param $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (if
-   (tee_local $3
-    (call $~lib/map/Map<f64,i32>#find
-     (get_local $0)
-     (get_local $1)
-     (tee_local $5
-      (call $~lib/internal/hash/hash64
-       (i64.reinterpret/f64
-        (get_local $1)
+ (func $~lib/iterator/Iterator<i32>#next|virtual (; 160 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (block $folding-inner0
+   (br_if $folding-inner0
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
        )
       )
      )
+     (i32.const 13)
     )
    )
-   (i32.store offset=8
-    (get_local $3)
-    (get_local $2)
+   (br_if $folding-inner0
+    (i32.eq
+     (get_local $1)
+     (i32.const 26)
+    )
    )
-   (block
-    (if
-     (i32.eq
-      (i32.load offset=16
-       (get_local $0)
-      )
-      (i32.load offset=12
-       (get_local $0)
-      )
+   (br_if $folding-inner0
+    (i32.eq
+     (get_local $1)
+     (i32.const 39)
+    )
+   )
+   (br_if $folding-inner0
+    (i32.eq
+     (get_local $1)
+     (i32.const 52)
+    )
+   )
+   (if
+    (i32.eq
+     (get_local $1)
+     (i32.const 61)
+    )
+    (return
+     (call $~lib/map/MapKeyIterator<i32,i32>#next
+      (get_local $0)
      )
-     (call $~lib/map/Map<f64,i32>#rehash
+    )
+   )
+   (br_if $folding-inner0
+    (i32.eq
+     (get_local $1)
+     (i32.const 62)
+    )
+   )
+   (br_if $folding-inner0
+    (i32.eq
+     (get_local $1)
+     (i32.const 75)
+    )
+   )
+   (if
+    (i32.eq
+     (get_local $1)
+     (i32.const 88)
+    )
+    (return
+     (call $~lib/map/MapValueIterator<i64,i32>#next
       (get_local $0)
-      (tee_local $3
-       (if (result i32)
-        (i32.lt_s
-         (i32.load offset=20
-          (get_local $0)
-         )
-         (i32.trunc_s/f64
-          (f64.mul
-           (f64.convert_s/i32
-            (i32.load offset=12
-             (get_local $0)
-            )
-           )
-           (f64.const 0.75)
-          )
-         )
-        )
-        (i32.load offset=4
-         (get_local $0)
-        )
-        (i32.or
-         (i32.shl
-          (i32.load offset=4
-           (get_local $0)
-          )
-          (i32.const 1)
-         )
-         (i32.const 1)
-        )
+     )
+    )
+   )
+   (if
+    (i32.eq
+     (get_local $1)
+     (i32.const 101)
+    )
+    (return
+     (call $~lib/map/MapValueIterator<i64,i32>#next
+      (get_local $0)
+     )
+    )
+   )
+   (br_if $folding-inner0
+    (i32.eq
+     (get_local $1)
+     (i32.const 114)
+    )
+   )
+   (if
+    (i32.eq
+     (get_local $1)
+     (i32.const 127)
+    )
+    (return
+     (call $~lib/map/MapValueIterator<i64,i32>#next
+      (get_local $0)
+     )
+    )
+   )
+   (unreachable)
+  )
+  (call $~lib/map/MapValueIterator<i8,i32>#next
+   (get_local $0)
+  )
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i8,i32>>#get:done|virtual (; 161 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
        )
       )
      )
+     (i32.const 17)
     )
-    (set_local $3
-     (i32.load offset=8
+    (i32.eq
+     (get_local $1)
+     (i32.const 18)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<i8,i32,i8>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i8,i32>>#next|virtual (; 162 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
       (get_local $0)
+      (i32.const 4)
      )
     )
-    (i32.store offset=16
+    (i32.const 18)
+   )
+   (return
+    (call $~lib/map/MapEntryIterator<i8,i32>#next
      (get_local $0)
-     (i32.add
-      (tee_local $4
-       (i32.load offset=16
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u8>#get:done|virtual (; 163 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
         (get_local $0)
+        (i32.const 4)
        )
       )
-      (i32.const 1)
      )
+     (i32.const 23)
     )
-    (f64.store
-     (tee_local $3
-      (i32.add
-       (i32.add
-        (get_local $3)
-        (i32.const 8)
-       )
-       (i32.shl
-        (get_local $4)
+    (i32.eq
+     (get_local $1)
+     (i32.const 24)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<i8,i32,i8>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u8>#next|virtual (; 164 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
+     )
+    )
+    (i32.const 24)
+   )
+   (return
+    (call $~lib/map/MapKeyIterator<u8,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u8,i32>>#get:done|virtual (; 165 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
         (i32.const 4)
        )
       )
      )
-     (get_local $1)
+     (i32.const 30)
     )
-    (i32.store offset=8
-     (get_local $3)
-     (get_local $2)
+    (i32.eq
+     (get_local $1)
+     (i32.const 31)
     )
-    (i32.store offset=20
+   )
+   (return
+    (call $~lib/map/MapIterator<i8,i32,i8>#get:done
      (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
-      )
-      (i32.const 1)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u8,i32>>#next|virtual (; 166 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
      )
     )
-    (i32.store offset=12
-     (get_local $3)
-     (i32.load offset=8
-      (tee_local $4
-       (i32.add
-        (i32.load
-         (get_local $0)
-        )
-        (i32.shl
-         (i32.and
-          (get_local $5)
-          (i32.load offset=4
-           (get_local $0)
-          )
-         )
-         (i32.const 2)
-        )
+    (i32.const 31)
+   )
+   (return
+    (call $~lib/map/MapEntryIterator<u8,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i16>#get:done|virtual (; 167 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
        )
       )
      )
+     (i32.const 36)
     )
-    (i32.store offset=8
-     (get_local $4)
-     (get_local $3)
+    (i32.eq
+     (get_local $1)
+     (i32.const 37)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<i8,i32,i8>#get:done
+     (get_local $0)
     )
    )
   )
+  (unreachable)
  )
- (func $~lib/map/Map<f64,i32>#get (; 69 ;) (; has Stack IR ;) (type $iFi) (param $0 i32) (param $1 f64) (result i32)
-  (tee_local $0
-   (if (result i32)
-    (tee_local $0
-     (call $~lib/map/Map<f64,i32>#find
+ (func $~lib/iterator/Iterator<i16>#next|virtual (; 168 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
       (get_local $0)
-      (get_local $1)
-      (call $~lib/internal/hash/hash64
-       (i64.reinterpret/f64
-        (get_local $1)
-       )
-      )
+      (i32.const 4)
      )
     )
-    (i32.load offset=8
+    (i32.const 37)
+   )
+   (return
+    (call $~lib/map/MapKeyIterator<i16,i32>#next
      (get_local $0)
     )
-    (unreachable)
    )
   )
+  (unreachable)
  )
- (func $~lib/map/Map<f64,i32>#delete (; 70 ;) (; has Stack IR ;) (type $iFi) (param $0 i32) (param $1 f64) (result i32)
-  (local $2 i32)
-  (local $3 i32)
+ (func $~lib/iterator/Iterator<KeyValue<i16,i32>>#get:done|virtual (; 169 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
   (if
-   (i32.eqz
-    (tee_local $0
-     (call $~lib/map/Map<f64,i32>#find
-      (tee_local $2
-       (get_local $0)
-      )
-      (get_local $1)
-      (tee_local $0
-       (call $~lib/internal/hash/hash64
-        (i64.reinterpret/f64
-         (get_local $1)
-        )
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
        )
       )
      )
+     (i32.const 43)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 44)
     )
    )
    (return
-    (i32.const 0)
-   )
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (i32.or
-    (i32.load offset=12
+    (call $~lib/map/MapIterator<i8,i32,i8>#get:done
      (get_local $0)
     )
-    (i32.const 1)
    )
   )
-  (i32.store offset=20
-   (get_local $2)
-   (i32.sub
-    (i32.load offset=20
-     (get_local $2)
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i16,i32>>#next|virtual (; 170 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
+     )
+    )
+    (i32.const 44)
+   )
+   (return
+    (call $~lib/map/MapEntryIterator<i16,i32>#next
+     (get_local $0)
     )
-    (i32.const 1)
    )
   )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u16>#get:done|virtual (; 171 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
   (if
-   (tee_local $0
-    (i32.ge_u
-     (i32.add
-      (tee_local $3
-       (i32.shr_u
-        (i32.load offset=4
-         (get_local $2)
-        )
-        (i32.const 1)
-       )
-      )
-      (i32.const 1)
-     )
-     (select
-      (i32.const 4)
-      (tee_local $0
-       (i32.load offset=20
-        (get_local $2)
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
        )
       )
-      (i32.gt_u
-       (i32.const 4)
-       (get_local $0)
-      )
      )
+     (i32.const 49)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 50)
     )
    )
-   (set_local $0
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $2)
-     )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $2)
-        )
-       )
-       (f64.const 0.75)
-      )
-     )
+   (return
+    (call $~lib/map/MapIterator<i8,i32,i8>#get:done
+     (get_local $0)
     )
    )
   )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u16>#next|virtual (; 172 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (if
-   (get_local $0)
-   (call $~lib/map/Map<f64,i32>#rehash
-    (get_local $2)
-    (get_local $3)
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
+     )
+    )
+    (i32.const 50)
+   )
+   (return
+    (call $~lib/map/MapKeyIterator<u16,i32>#next
+     (get_local $0)
+    )
    )
   )
-  (i32.const 1)
+  (unreachable)
  )
- (func $std/map/test<f64,i32> (; 71 ;) (; has Stack IR ;) (type $v)
-  (local $0 f64)
+ (func $~lib/iterator/Iterator<KeyValue<u16,i32>>#get:done|virtual (; 173 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
-  (set_local $1
-   (call $~lib/map/Map<i64,i32>#constructor)
-  )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (f64.lt
-       (get_local $0)
-       (f64.const 100)
-      )
-     )
-    )
-    (if
-     (call $~lib/map/Map<f64,i32>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 8)
-       (i32.const 4)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
+       )
       )
-      (unreachable)
      )
+     (i32.const 56)
     )
-    (call $~lib/map/Map<f64,i32>#set
+    (i32.eq
      (get_local $1)
+     (i32.const 57)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<i8,i32,i8>#get:done
      (get_local $0)
-     (i32.add
-      (i32.trunc_s/f64
-       (get_local $0)
-      )
-      (i32.const 10)
-     )
     )
-    (if
-     (i32.eqz
-      (call $~lib/map/Map<f64,i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 10)
-       (i32.const 4)
-      )
-      (unreachable)
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u16,i32>>#next|virtual (; 174 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
      )
     )
-    (if
-     (i32.ne
-      (call $~lib/map/Map<f64,i32>#get
-       (get_local $1)
-       (get_local $0)
-      )
-      (i32.add
-       (i32.trunc_s/f64
+    (i32.const 57)
+   )
+   (return
+    (call $~lib/map/MapEntryIterator<u16,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i32,i32>>#get:done|virtual (; 175 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
         (get_local $0)
+        (i32.const 4)
        )
-       (i32.const 10)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 11)
-       (i32.const 4)
       )
-      (unreachable)
      )
-     (block
-      (set_local $0
-       (f64.add
-        (get_local $0)
-        (f64.const 1)
-       )
-      )
-      (br $repeat|0)
+     (i32.const 66)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 67)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<i8,i32,i8>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i32,i32>>#next|virtual (; 176 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
      )
     )
+    (i32.const 67)
+   )
+   (return
+    (call $~lib/map/MapEntryIterator<i32,i32>#next
+     (get_local $0)
+    )
    )
   )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u32>#get:done|virtual (; 177 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
   (if
-   (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
+       )
+      )
+     )
+     (i32.const 72)
+    )
+    (i32.eq
      (get_local $1)
+     (i32.const 73)
     )
-    (i32.const 100)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 13)
-     (i32.const 2)
+   (return
+    (call $~lib/map/MapIterator<i8,i32,i8>#get:done
+     (get_local $0)
     )
-    (unreachable)
    )
   )
-  (block $break|1
-   (set_local $0
-    (f64.const 0)
-   )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.eqz
-      (f64.lt
-       (get_local $0)
-       (f64.const 100)
-      )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u32>#next|virtual (; 178 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
      )
     )
-    (if
-     (i32.eqz
-      (call $~lib/map/Map<f64,i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 17)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
+    (i32.const 73)
+   )
+   (return
+    (call $~lib/map/MapKeyIterator<i32,i32>#next
+     (get_local $0)
     )
-    (if
-     (i32.ne
-      (call $~lib/map/Map<f64,i32>#get
-       (get_local $1)
-       (get_local $0)
-      )
-      (i32.add
-       (i32.trunc_s/f64
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u32,i32>>#get:done|virtual (; 179 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
         (get_local $0)
+        (i32.const 4)
        )
-       (i32.const 10)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 18)
-       (i32.const 4)
       )
-      (unreachable)
      )
+     (i32.const 79)
     )
-    (call $~lib/map/Map<f64,i32>#set
+    (i32.eq
      (get_local $1)
+     (i32.const 80)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<i8,i32,i8>#get:done
      (get_local $0)
-     (i32.add
-      (i32.trunc_s/f64
-       (get_local $0)
-      )
-      (i32.const 20)
-     )
     )
-    (if
-     (i32.eqz
-      (call $~lib/map/Map<f64,i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 20)
-       (i32.const 4)
-      )
-      (unreachable)
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u32,i32>>#next|virtual (; 180 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
      )
     )
-    (if
-     (i32.ne
-      (call $~lib/map/Map<f64,i32>#get
-       (get_local $1)
-       (get_local $0)
-      )
-      (i32.add
-       (i32.trunc_s/f64
+    (i32.const 80)
+   )
+   (return
+    (call $~lib/map/MapEntryIterator<i32,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i64>#get:done|virtual (; 181 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
         (get_local $0)
+        (i32.const 4)
        )
-       (i32.const 20)
       )
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 21)
-       (i32.const 4)
-      )
-      (unreachable)
+     (i32.const 85)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 86)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<i64,i32,i32>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i64>#next|virtual (; 182 ;) (; has Stack IR ;) (type $iI) (param $0 i32) (result i64)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
      )
-     (block
-      (set_local $0
-       (f64.add
+    )
+    (i32.const 86)
+   )
+   (return
+    (call $~lib/map/MapKeyIterator<i64,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i64,i32>>#get:done|virtual (; 183 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
         (get_local $0)
-        (f64.const 1)
+        (i32.const 4)
        )
       )
-      (br $repeat|1)
      )
+     (i32.const 92)
     )
-   )
-  )
-  (if
-   (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
+    (i32.eq
      (get_local $1)
+     (i32.const 93)
     )
-    (i32.const 100)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 23)
-     (i32.const 2)
+   (return
+    (call $~lib/map/MapIterator<i64,i32,i32>#get:done
+     (get_local $0)
     )
-    (unreachable)
    )
   )
-  (block $break|2
-   (set_local $0
-    (f64.const 0)
-   )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (f64.lt
-       (get_local $0)
-       (f64.const 50)
-      )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i64,i32>>#next|virtual (; 184 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
      )
     )
-    (if
-     (i32.eqz
-      (call $~lib/map/Map<f64,i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 27)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
+    (i32.const 93)
+   )
+   (return
+    (call $~lib/map/MapEntryIterator<i64,i32>#next
+     (get_local $0)
     )
-    (if
-     (i32.ne
-      (call $~lib/map/Map<f64,i32>#get
-       (get_local $1)
-       (get_local $0)
-      )
-      (i32.add
-       (i32.trunc_s/f64
-        (get_local $0)
-       )
-       (i32.const 20)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 28)
-       (i32.const 4)
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u64>#get:done|virtual (; 185 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
+       )
       )
-      (unreachable)
      )
+     (i32.const 98)
     )
-    (drop
-     (call $~lib/map/Map<f64,i32>#delete
-      (get_local $1)
-      (get_local $0)
-     )
+    (i32.eq
+     (get_local $1)
+     (i32.const 99)
     )
-    (if
-     (call $~lib/map/Map<f64,i32>#has
-      (get_local $1)
+   )
+   (return
+    (call $~lib/map/MapIterator<i64,i32,i32>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u64>#next|virtual (; 186 ;) (; has Stack IR ;) (type $iI) (param $0 i32) (result i64)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
       (get_local $0)
+      (i32.const 4)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 30)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-     (block
-      (set_local $0
-       (f64.add
+    )
+    (i32.const 99)
+   )
+   (return
+    (call $~lib/map/MapKeyIterator<i64,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u64,i32>>#get:done|virtual (; 187 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
         (get_local $0)
-        (f64.const 1)
+        (i32.const 4)
        )
       )
-      (br $repeat|2)
      )
+     (i32.const 105)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 106)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<i64,i32,i32>#get:done
+     (get_local $0)
     )
    )
   )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u64,i32>>#next|virtual (; 188 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (if
-   (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
-     (get_local $1)
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
+     )
     )
-    (i32.const 50)
+    (i32.const 106)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 32)
-     (i32.const 2)
+   (return
+    (call $~lib/map/MapEntryIterator<i64,i32>#next
+     (get_local $0)
     )
-    (unreachable)
    )
   )
-  (block $break|3
-   (set_local $0
-    (f64.const 0)
-   )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (f64.lt
-       (get_local $0)
-       (f64.const 50)
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<f32>#get:done|virtual (; 189 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
+       )
       )
      )
+     (i32.const 111)
     )
-    (if
-     (call $~lib/map/Map<f64,i32>#has
-      (get_local $1)
+    (i32.eq
+     (get_local $1)
+     (i32.const 112)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<i8,i32,i8>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<f32>#next|virtual (; 190 ;) (; has Stack IR ;) (type $if) (param $0 i32) (result f32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
       (get_local $0)
+      (i32.const 4)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 36)
-       (i32.const 4)
+    )
+    (i32.const 112)
+   )
+   (return
+    (call $~lib/map/MapKeyIterator<f32,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<f32,i32>>#get:done|virtual (; 191 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
+       )
       )
-      (unreachable)
      )
+     (i32.const 118)
     )
-    (call $~lib/map/Map<f64,i32>#set
+    (i32.eq
      (get_local $1)
+     (i32.const 119)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<i8,i32,i8>#get:done
      (get_local $0)
-     (i32.add
-      (i32.trunc_s/f64
-       (get_local $0)
-      )
-      (i32.const 10)
-     )
     )
-    (if
-     (i32.eqz
-      (call $~lib/map/Map<f64,i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<f32,i32>>#next|virtual (; 192 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 38)
-       (i32.const 4)
+    )
+    (i32.const 119)
+   )
+   (return
+    (call $~lib/map/MapEntryIterator<f32,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<f64>#get:done|virtual (; 193 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
+       )
       )
-      (unreachable)
      )
+     (i32.const 124)
     )
-    (drop
-     (call $~lib/map/Map<f64,i32>#delete
-      (get_local $1)
-      (get_local $0)
-     )
+    (i32.eq
+     (get_local $1)
+     (i32.const 125)
     )
-    (if
-     (call $~lib/map/Map<f64,i32>#has
-      (get_local $1)
+   )
+   (return
+    (call $~lib/map/MapIterator<i64,i32,i32>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<f64>#next|virtual (; 194 ;) (; has Stack IR ;) (type $iF) (param $0 i32) (result f64)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
       (get_local $0)
+      (i32.const 4)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 40)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-     (block
-      (set_local $0
-       (f64.add
+    )
+    (i32.const 125)
+   )
+   (return
+    (call $~lib/map/MapKeyIterator<f64,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<f64,i32>>#get:done|virtual (; 195 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
         (get_local $0)
-        (f64.const 1)
+        (i32.const 4)
        )
       )
-      (br $repeat|3)
      )
+     (i32.const 131)
     )
-   )
-  )
-  (if
-   (i32.ne
-    (call $~lib/map/Map<i8,i32>#get:size
+    (i32.eq
      (get_local $1)
+     (i32.const 132)
     )
-    (i32.const 50)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
+   (return
+    (call $~lib/map/MapIterator<i64,i32,i32>#get:done
+     (get_local $0)
     )
-    (unreachable)
    )
   )
-  (call $~lib/map/Map<i64,i32>#clear
-   (get_local $1)
-  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<f64,i32>>#next|virtual (; 196 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (if
-   (call $~lib/map/Map<i8,i32>#get:size
-    (get_local $1)
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
+     )
+    )
+    (i32.const 132)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 46)
-     (i32.const 2)
+   (return
+    (call $~lib/map/MapEntryIterator<f64,i32>#next
+     (get_local $0)
     )
-    (unreachable)
    )
   )
+  (unreachable)
  )
- (func $start (; 72 ;) (; has Stack IR ;) (type $v)
+ (func $start (; 197 ;) (; has Stack IR ;) (type $v)
   (set_global $~lib/allocator/arena/startOffset
-   (i32.const 144)
+   (i32.const 1768)
   )
   (set_global $~lib/allocator/arena/offset
    (get_global $~lib/allocator/arena/startOffset)
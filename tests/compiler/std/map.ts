@@ -41,6 +41,35 @@ function test<K,V>(): void {
   }
   assert(map.size == 50);
 
+  // iterate
+  var count = 0;
+  for (let key of map.keys()) {
+    assert(key >= 50 && key < 100);
+    assert(map.get(key) == 20 + <V>key);
+    ++count;
+  }
+  assert(count == 50);
+  for (let value of map.values()) {
+    assert(value >= 70 && value < 120);
+    --count;
+  }
+  assert(count == 0);
+  for (let entry of map.entries()) {
+    assert(entry.value == 20 + <V>entry.key);
+    ++count;
+  }
+  assert(count == 50);
+  for (let entry of map) {
+    assert(entry.value == 20 + <V>entry.key);
+    --count;
+  }
+  assert(count == 0);
+  map.forEach((value: V, key: K, map: Map<K,V>): void => {
+    assert(value == 20 + <V>key);
+    ++count;
+  });
+  assert(count == 50);
+
   // clear
   map.clear();
   assert(map.size == 0);
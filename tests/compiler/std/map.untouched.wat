@@ -17,6 +17,9 @@
  (type $iFi (func (param i32 f64) (result i32)))
  (type $iFii (func (param i32 f64 i32) (result i32)))
  (type $iFiv (func (param i32 f64 i32)))
+ (type $iI (func (param i32) (result i64)))
+ (type $if (func (param i32) (result f32)))
+ (type $iF (func (param i32) (result f64)))
  (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
  (global $~lib/internal/allocator/AL_BITS i32 (i32.const 3))
  (global $~lib/internal/allocator/AL_SIZE i32 (i32.const 8))
@@ -33,12 +36,21 @@
  (global $~lib/map/EMPTY i32 (i32.const 1))
  (global $~lib/map/FREE_FACTOR f64 (f64.const 0.75))
  (global $~lib/map/FILL_FACTOR f64 (f64.const 2.6666666666666665))
- (global $HEAP_BASE i32 (i32.const 144))
+ (global $~env (mut i32) (i32.const 0))
+ (global $~argc (mut i32) (i32.const 0))
+ (global $RTTI_BASE i32 (i32.const 176))
+ (global $HEAP_BASE i32 (i32.const 1764))
+ (table 10 10 anyfunc)
+ (elem (i32.const 0) $std/map/test<i8,i32>~anonymous|0 $std/map/test<u8,i32>~anonymous|1 $std/map/test<i16,i32>~anonymous|2 $std/map/test<u16,i32>~anonymous|3 $std/map/test<i32,i32>~anonymous|4 $std/map/test<u32,i32>~anonymous|5 $std/map/test<i64,i32>~anonymous|6 $std/map/test<u64,i32>~anonymous|7 $std/map/test<f32,i32>~anonymous|8 $std/map/test<f64,i32>~anonymous|9)
  (memory $0 1)
  (data (i32.const 8) "\13\00\00\00~\00l\00i\00b\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s\00")
  (data (i32.const 56) "\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s\00")
  (data (i32.const 120) "\n\00\00\00s\00t\00d\00/\00m\00a\00p\00.\00t\00s\00")
+ (data (i32.const 144) "\0b\00\00\00~\00l\00i\00b\00/\00m\00a\00p\00.\00t\00s\00")
+ (data (i32.const 176) "\84\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\02\00\00\00\00\00\00\00\00\00\00\00\03\00\00\00\00\00\00\00\04\00\00\00\04\00\00\00\00\00\00\00\00\00\00\00\05\00\00\00\00\00\00\00\00\00\00\00\06\00\00\00\00\00\00\00\04\00\00\00\07\00\00\00\06\00\00\00\04\00\00\00\08\00\00\00\07\00\00\00\04\00\00\00\t\00\00\00\08\00\00\00\04\00\00\00\n\00\00\00\00\00\00\00\04\00\00\00\0b\00\00\00\n\00\00\00\04\00\00\00\0c\00\00\00\0b\00\00\00\04\00\00\00\0d\00\00\00\0c\00\00\00\04\00\00\00\0e\00\00\00\00\00\00\00\00\00\00\00\0f\00\00\00\00\00\00\00\04\00\00\00\10\00\00\00\0f\00\00\00\04\00\00\00\11\00\00\00\10\00\00\00\04\00\00\00\12\00\00\00\11\00\00\00\04\00\00\00\13\00\00\00\00\00\00\00\00\00\00\00\14\00\00\00\00\00\00\00\00\00\00\00\15\00\00\00\00\00\00\00\04\00\00\00\16\00\00\00\15\00\00\00\04\00\00\00\17\00\00\00\16\00\00\00\04\00\00\00\18\00\00\00\17\00\00\00\04\00\00\00\19\00\00\00\0b\00\00\00\04\00\00\00\1a\00\00\00\19\00\00\00\04\00\00\00\1b\00\00\00\00\00\00\00\00\00\00\00\1c\00\00\00\00\00\00\00\04\00\00\00\1d\00\00\00\1c\00\00\00\04\00\00\00\1e\00\00\00\1d\00\00\00\04\00\00\00\1f\00\00\00\1e\00\00\00\04\00\00\00 \00\00\00\00\00\00\00\00\00\00\00!\00\00\00\00\00\00\00\00\00\00\00\"\00\00\00\00\00\00\00\04\00\00\00#\00\00\00\"\00\00\00\04\00\00\00$\00\00\00#\00\00\00\04\00\00\00%\00\00\00$\00\00\00\04\00\00\00&\00\00\00\0b\00\00\00\04\00\00\00\'\00\00\00&\00\00\00\04\00\00\00(\00\00\00\00\00\00\00\00\00\00\00)\00\00\00\00\00\00\00\04\00\00\00*\00\00\00)\00\00\00\04\00\00\00+\00\00\00*\00\00\00\04\00\00\00,\00\00\00+\00\00\00\04\00\00\00-\00\00\00\00\00\00\00\00\00\00\00.\00\00\00\00\00\00\00\00\00\00\00/\00\00\00\00\00\00\00\04\00\00\000\00\00\00/\00\00\00\04\00\00\001\00\00\000\00\00\00\04\00\00\002\00\00\001\00\00\00\04\00\00\003\00\00\00\0b\00\00\00\04\00\00\004\00\00\003\00\00\00\04\00\00\005\00\00\00\00\00\00\00\00\00\00\006\00\00\00\00\00\00\00\04\00\00\007\00\00\006\00\00\00\04\00\00\008\00\00\007\00\00\00\04\00\00\009\00\00\008\00\00\00\04\00\00\00:\00\00\00\00\00\00\00\00\00\00\00;\00\00\00\00\00\00\00\00\00\00\00<\00\00\00\0b\00\00\00\04\00\00\00=\00\00\00<\00\00\00\04\00\00\00>\00\00\00<\00\00\00\04\00\00\00?\00\00\00\00\00\00\00\00\00\00\00@\00\00\00\00\00\00\00\04\00\00\00A\00\00\00@\00\00\00\04\00\00\00B\00\00\00A\00\00\00\04\00\00\00C\00\00\00B\00\00\00\04\00\00\00D\00\00\00\00\00\00\00\00\00\00\00E\00\00\00\00\00\00\00\00\00\00\00F\00\00\00\00\00\00\00\04\00\00\00G\00\00\00F\00\00\00\04\00\00\00H\00\00\00G\00\00\00\04\00\00\00I\00\00\00H\00\00\00\04\00\00\00J\00\00\00\0b\00\00\00\04\00\00\00K\00\00\00J\00\00\00\04\00\00\00L\00\00\00\00\00\00\00\00\00\00\00M\00\00\00\00\00\00\00\04\00\00\00N\00\00\00M\00\00\00\04\00\00\00O\00\00\00N\00\00\00\04\00\00\00P\00\00\00O\00\00\00\04\00\00\00Q\00\00\00\00\00\00\00\00\00\00\00R\00\00\00\00\00\00\00\00\00\00\00S\00\00\00\00\00\00\00\04\00\00\00T\00\00\00S\00\00\00\04\00\00\00U\00\00\00T\00\00\00\04\00\00\00V\00\00\00U\00\00\00\04\00\00\00W\00\00\00\0b\00\00\00\04\00\00\00X\00\00\00W\00\00\00\04\00\00\00Y\00\00\00\00\00\00\00\00\00\00\00Z\00\00\00\00\00\00\00\04\00\00\00[\00\00\00Z\00\00\00\04\00\00\00\\\00\00\00[\00\00\00\04\00\00\00]\00\00\00\\\00\00\00\04\00\00\00^\00\00\00\00\00\00\00\00\00\00\00_\00\00\00\00\00\00\00\00\00\00\00`\00\00\00\00\00\00\00\04\00\00\00a\00\00\00`\00\00\00\04\00\00\00b\00\00\00a\00\00\00\04\00\00\00c\00\00\00b\00\00\00\04\00\00\00d\00\00\00\0b\00\00\00\04\00\00\00e\00\00\00d\00\00\00\04\00\00\00f\00\00\00\00\00\00\00\00\00\00\00g\00\00\00\00\00\00\00\04\00\00\00h\00\00\00g\00\00\00\04\00\00\00i\00\00\00h\00\00\00\04\00\00\00j\00\00\00i\00\00\00\04\00\00\00k\00\00\00\00\00\00\00\00\00\00\00l\00\00\00\00\00\00\00\00\00\00\00m\00\00\00\00\00\00\00\04\00\00\00n\00\00\00m\00\00\00\04\00\00\00o\00\00\00n\00\00\00\04\00\00\00p\00\00\00o\00\00\00\04\00\00\00q\00\00\00\0b\00\00\00\04\00\00\00r\00\00\00q\00\00\00\04\00\00\00s\00\00\00\00\00\00\00\00\00\00\00t\00\00\00\00\00\00\00\04\00\00\00u\00\00\00t\00\00\00\04\00\00\00v\00\00\00u\00\00\00\04\00\00\00w\00\00\00v\00\00\00\04\00\00\00x\00\00\00\00\00\00\00\00\00\00\00y\00\00\00\00\00\00\00\00\00\00\00z\00\00\00\00\00\00\00\04\00\00\00{\00\00\00z\00\00\00\04\00\00\00|\00\00\00{\00\00\00\04\00\00\00}\00\00\00|\00\00\00\04\00\00\00~\00\00\00\0b\00\00\00\04\00\00\00\7f\00\00\00~\00\00\00\04\00\00\00\80\00\00\00\00\00\00\00\00\00\00\00\81\00\00\00\00\00\00\00\04\00\00\00\82\00\00\00\81\00\00\00\04\00\00\00\83\00\00\00\82\00\00\00\04\00\00\00\84\00\00\00\83\00\00\00\04\00\00\00")
+ (export "RTTI_BASE" (global $RTTI_BASE))
  (export "memory" (memory $0))
+ (export "table" (table $0))
  (start $start)
  (func $~lib/allocator/arena/__memory_allocate (; 1 ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
@@ -1299,52 +1311,160 @@
   )
   (i32.const 1)
  )
- (func $std/map/test<i8,i32> (; 17 ;) (type $v)
-  (local $0 i32)
+ (func $~lib/map/Map<i8,i32>#keys (; 17 ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
-  (set_local $0
-   (call $~lib/map/Map<i8,i32>#constructor
-    (i32.const 0)
-   )
-  )
-  (block $break|0
-   (set_local $1
-    (i32.const 0)
-   )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 100)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 9)
       )
+      (get_local $2)
      )
     )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<i8,i32>#has
-         (get_local $0)
-         (get_local $1)
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<i8>#__iterator (; 18 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/map/Map<i8,i32>#values (; 19 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
         )
+        (i32.const 4)
        )
+       (i32.const 13)
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 8)
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<i32>#__iterator (; 20 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/map/Map<i8,i32>#entries (; 21 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
         (i32.const 4)
        )
-       (unreachable)
+       (i32.const 18)
       )
+      (get_local $2)
      )
-     (call $~lib/map/Map<i8,i32>#set
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<KeyValue<i8,i32>>#__iterator (; 22 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/map/Map<i8,i32>#__iterator (; 23 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/map/Map<i8,i32>#entries
+   (get_local $0)
+  )
+ )
+ (func $std/map/test<i8,i32>~anonymous|0 (; 24 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (block
+   (if
+    (i32.eqz
+     (i32.eq
       (get_local $0)
-      (get_local $1)
       (i32.add
-       (i32.const 10)
+       (i32.const 20)
        (i32.shr_s
         (i32.shl
          (get_local $1)
@@ -1354,1017 +1474,1244 @@
        )
       )
      )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<i8,i32>#has
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 68)
+      (i32.const 4)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $3)
+    (i32.add
+     (i32.load offset=4
+      (get_local $3)
+     )
+     (i32.const 1)
+    )
+   )
+  )
+ )
+ (func $~lib/map/Map<i8,i32>#forEach (; 25 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $2)
+       (i32.load offset=16
         (get_local $0)
-        (get_local $1)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 10)
-        (i32.const 4)
+     )
+    )
+    (block
+     (set_local $3
+      (i32.add
+       (i32.add
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+       )
+       (i32.mul
+        (get_local $2)
+        (block $~lib/map/ENTRY_SIZE<i8,i32>|inlined.6 (result i32)
+         (i32.const 12)
+        )
        )
-       (unreachable)
       )
      )
      (if
       (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<i8,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 10)
-         (i32.shr_s
-          (i32.shl
-           (get_local $1)
-           (i32.const 24)
-          )
-          (i32.const 24)
-         )
+       (i32.and
+        (i32.load offset=8
+         (get_local $3)
         )
+        (get_global $~lib/map/EMPTY)
        )
       )
       (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 11)
-        (i32.const 4)
+       (set_global $~argc
+        (i32.const 3)
+       )
+       (call_indirect (type $iiiv)
+        (i32.load offset=4
+         (get_local $3)
+        )
+        (i32.load8_s
+         (get_local $3)
+        )
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (get_local $1)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
        )
-       (unreachable)
       )
      )
     )
-    (set_local $1
+    (set_local $2
      (i32.add
-      (get_local $1)
+      (get_local $2)
       (i32.const 1)
      )
     )
     (br $repeat|0)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<i8,i32>#get:size
-      (get_local $0)
-     )
-     (i32.const 100)
-    )
+ )
+ (func $std/map/test<i8,i32> (; 26 ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $2
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
    )
-   (block
-    (call $~lib/env/abort
+  )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block
+   (set_local $0
+    (call $~lib/map/Map<i8,i32>#constructor
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 13)
-     (i32.const 2)
     )
-    (unreachable)
-   )
-  )
-  (block $break|1
-   (set_local $1
-    (i32.const 0)
    )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 100)
-      )
-     )
+   (block $break|0
+    (set_local $1
+     (i32.const 0)
     )
-    (block
-     (if
+    (loop $repeat|0
+     (br_if $break|0
       (i32.eqz
-       (call $~lib/map/Map<i8,i32>#has
-        (get_local $0)
+       (i32.lt_s
         (get_local $1)
+        (i32.const 100)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 17)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
      )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<i8,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 10)
-         (i32.shr_s
-          (i32.shl
-           (get_local $1)
-           (i32.const 24)
-          )
-          (i32.const 24)
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<i8,i32>#has
+          (get_local $0)
+          (get_local $1)
          )
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 18)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 8)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
-     )
-     (call $~lib/map/Map<i8,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 20)
-       (i32.shr_s
-        (i32.shl
-         (get_local $1)
+      (call $~lib/map/Map<i8,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 10)
+        (i32.shr_s
+         (i32.shl
+          (get_local $1)
+          (i32.const 24)
+         )
          (i32.const 24)
         )
-        (i32.const 24)
-       )
-      )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<i8,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 20)
-        (i32.const 4)
        )
-       (unreachable)
       )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<i8,i32>#get
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<i8,i32>#has
          (get_local $0)
          (get_local $1)
         )
-        (i32.add
-         (i32.const 20)
-         (i32.shr_s
-          (i32.shl
-           (get_local $1)
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 10)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<i8,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 10)
+          (i32.shr_s
+           (i32.shl
+            (get_local $1)
+            (i32.const 24)
+           )
            (i32.const 24)
           )
-          (i32.const 24)
          )
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 21)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 11)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-    )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
+     (br $repeat|0)
     )
-    (br $repeat|1)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<i8,i32>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<i8,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
      )
-     (i32.const 100)
     )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 23)
-     (i32.const 2)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 13)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (unreachable)
    )
-  )
-  (block $break|2
-   (set_local $1
-    (i32.const 0)
-   )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 50)
-      )
-     )
+   (block $break|1
+    (set_local $1
+     (i32.const 0)
     )
-    (block
-     (if
+    (loop $repeat|1
+     (br_if $break|1
       (i32.eqz
-       (call $~lib/map/Map<i8,i32>#has
-        (get_local $0)
+       (i32.lt_s
         (get_local $1)
+        (i32.const 100)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 27)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
      )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<i8,i32>#get
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<i8,i32>#has
          (get_local $0)
          (get_local $1)
         )
-        (i32.add
-         (i32.const 20)
-         (i32.shr_s
-          (i32.shl
-           (get_local $1)
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 17)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<i8,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 10)
+          (i32.shr_s
+           (i32.shl
+            (get_local $1)
+            (i32.const 24)
+           )
            (i32.const 24)
           )
-          (i32.const 24)
          )
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 28)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 18)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
-     )
-     (drop
-      (call $~lib/map/Map<i8,i32>#delete
+      (call $~lib/map/Map<i8,i32>#set
        (get_local $0)
        (get_local $1)
+       (i32.add
+        (i32.const 20)
+        (i32.shr_s
+         (i32.shl
+          (get_local $1)
+          (i32.const 24)
+         )
+         (i32.const 24)
+        )
+       )
       )
-     )
-     (if
-      (i32.eqz
+      (if
        (i32.eqz
         (call $~lib/map/Map<i8,i32>#has
          (get_local $0)
          (get_local $1)
         )
        )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 20)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 30)
-        (i32.const 4)
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<i8,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.shr_s
+           (i32.shl
+            (get_local $1)
+            (i32.const 24)
+           )
+           (i32.const 24)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 21)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-    )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
+     (br $repeat|1)
     )
-    (br $repeat|2)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<i8,i32>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<i8,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
      )
-     (i32.const 50)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 23)
+      (i32.const 2)
+     )
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
+   (block $break|2
+    (set_local $1
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 32)
-     (i32.const 2)
     )
-    (unreachable)
-   )
-  )
-  (block $break|3
-   (set_local $1
-    (i32.const 0)
-   )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 50)
+    (loop $repeat|2
+     (br_if $break|2
+      (i32.eqz
+       (i32.lt_s
+        (get_local $1)
+        (i32.const 50)
+       )
       )
      )
-    )
-    (block
-     (if
-      (i32.eqz
+     (block
+      (if
        (i32.eqz
         (call $~lib/map/Map<i8,i32>#has
          (get_local $0)
          (get_local $1)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 36)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/map/Map<i8,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 10)
-       (i32.shr_s
-        (i32.shl
-         (get_local $1)
-         (i32.const 24)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 27)
+         (i32.const 4)
         )
-        (i32.const 24)
-       )
-      )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<i8,i32>#has
-        (get_local $0)
-        (get_local $1)
+        (unreachable)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 38)
-        (i32.const 4)
-       )
-       (unreachable)
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<i8,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.shr_s
+           (i32.shl
+            (get_local $1)
+            (i32.const 24)
+           )
+           (i32.const 24)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 28)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/map/Map<i8,i32>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<i8,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 30)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
      )
-     (drop
-      (call $~lib/map/Map<i8,i32>#delete
-       (get_local $0)
+     (set_local $1
+      (i32.add
        (get_local $1)
+       (i32.const 1)
       )
      )
-     (if
+     (br $repeat|2)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<i8,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 32)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|3
+    (set_local $1
+     (i32.const 0)
+    )
+    (loop $repeat|3
+     (br_if $break|3
       (i32.eqz
+       (i32.lt_s
+        (get_local $1)
+        (i32.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<i8,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 36)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/map/Map<i8,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 10)
+        (i32.shr_s
+         (i32.shl
+          (get_local $1)
+          (i32.const 24)
+         )
+         (i32.const 24)
+        )
+       )
+      )
+      (if
        (i32.eqz
         (call $~lib/map/Map<i8,i32>#has
          (get_local $0)
          (get_local $1)
         )
        )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 38)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 40)
-        (i32.const 4)
+      (drop
+       (call $~lib/map/Map<i8,i32>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<i8,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 40)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-    )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
+     (br $repeat|3)
     )
-    (br $repeat|3)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<i8,i32>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<i8,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
      )
-     (i32.const 50)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
     )
-    (unreachable)
-   )
-  )
-  (call $~lib/map/Map<i8,i32>#clear
-   (get_local $0)
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<i8,i32>#get:size
-      (get_local $0)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 42)
+      (i32.const 2)
      )
-     (i32.const 0)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 46)
-     (i32.const 2)
+     (unreachable)
     )
-    (unreachable)
-   )
-  )
- )
- (func $~lib/map/Map<u8,i32>#clear (; 18 ;) (type $iv) (param $0 i32)
-  (i32.store
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 16)
-    (i32.const 0)
-   )
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (i32.sub
-    (get_global $~lib/map/INITIAL_CAPACITY)
-    (i32.const 1)
    )
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
+   (i32.store offset=4
+    (get_local $2)
     (i32.const 0)
-    (i32.const 48)
-    (i32.const 1)
    )
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_global $~lib/map/INITIAL_CAPACITY)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.const 0)
-  )
- )
- (func $~lib/map/Map<u8,i32>#constructor (; 19 ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (call $~lib/map/Map<u8,i32>#clear
-   (tee_local $0
-    (if (result i32)
-     (get_local $0)
-     (get_local $0)
-     (tee_local $0
-      (block (result i32)
-       (set_local $1
+   (block $break|4
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<i8>#__iterator
+      (call $~lib/map/Map<i8,i32>#keys
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|4
+     (br_if $break|4
+      (call $~lib/iterator/Iterator<i8>#get:done|virtual
+       (get_local $1)
+      )
+     )
+     (block
+      (block
+       (set_local $5
         (call $~lib/memory/memory.allocate
-         (i32.const 24)
+         (i32.const 5)
         )
        )
        (i32.store
-        (get_local $1)
-        (i32.const 0)
+        (get_local $5)
+        (get_local $2)
        )
-       (i32.store offset=4
-        (get_local $1)
+       (i32.store8 offset=4
+        (get_local $5)
         (i32.const 0)
        )
-       (i32.store offset=8
+      )
+      (i32.store8 offset=4
+       (get_local $5)
+       (call $~lib/iterator/Iterator<i8>#next|virtual
         (get_local $1)
-        (i32.const 0)
        )
-       (i32.store offset=12
-        (get_local $1)
-        (i32.const 0)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $6
+          (i32.ge_s
+           (i32.load8_s offset=4
+            (get_local $5)
+           )
+           (i32.const 50)
+          )
+         )
+         (i32.lt_s
+          (i32.load8_s offset=4
+           (get_local $5)
+          )
+          (i32.const 100)
+         )
+         (get_local $6)
+        )
        )
-       (i32.store offset=16
-        (get_local $1)
-        (i32.const 0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 47)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (i32.store offset=20
-        (get_local $1)
-        (i32.const 0)
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<i8,i32>#get
+          (get_local $0)
+          (i32.load8_s offset=4
+           (get_local $5)
+          )
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.load8_s offset=4
+           (get_local $5)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 48)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
-       (get_local $1)
       )
      )
+     (br $repeat|4)
     )
    )
-  )
-  (get_local $0)
- )
- (func $~lib/map/Map<u8,i32>#find (; 20 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
-  (local $3 i32)
-  (local $4 i32)
-  (set_local $3
-   (i32.load offset=8
-    (i32.add
-     (i32.load
-      (get_local $0)
-     )
-     (i32.mul
-      (i32.and
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
        (get_local $2)
-       (i32.load offset=4
-        (get_local $0)
-       )
       )
-      (get_global $~lib/map/BUCKET_SIZE)
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 51)
+      (i32.const 2)
      )
+     (unreachable)
     )
    )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (get_local $3)
+   (block $break|5
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<i32>#__iterator
+      (call $~lib/map/Map<i8,i32>#values
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|5
+     (br_if $break|5
+      (call $~lib/iterator/Iterator<i32>#get:done|virtual
+       (get_local $1)
+      )
+     )
      (block
       (block
-       (if
+       (set_local $8
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.store
+        (get_local $8)
+        (get_local $2)
+       )
+       (i32.store offset=4
+        (get_local $8)
+        (i32.const 0)
+       )
+      )
+      (i32.store offset=4
+       (get_local $8)
+       (call $~lib/iterator/Iterator<i32>#next|virtual
+        (get_local $1)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
         (if (result i32)
-         (tee_local $4
-          (i32.eqz
-           (i32.and
-            (i32.load offset=8
-             (get_local $3)
-            )
-            (get_global $~lib/map/EMPTY)
+         (tee_local $6
+          (i32.ge_s
+           (i32.load offset=4
+            (get_local $8)
            )
+           (i32.const 70)
           )
          )
-         (i32.eq
-          (i32.load8_u
-           (get_local $3)
-          )
-          (i32.and
-           (get_local $1)
-           (i32.const 255)
+         (i32.lt_s
+          (i32.load offset=4
+           (get_local $8)
           )
+          (i32.const 120)
          )
-         (get_local $4)
+         (get_local $6)
         )
-        (return
-         (get_local $3)
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 53)
+         (i32.const 4)
         )
+        (unreachable)
        )
-       (set_local $3
-        (i32.and
-         (i32.load offset=8
-          (get_local $3)
-         )
-         (i32.xor
-          (get_global $~lib/map/EMPTY)
-          (i32.const -1)
-         )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
         )
+        (i32.const 1)
        )
       )
-      (br $continue|0)
      )
+     (br $repeat|5)
     )
    )
-  )
-  (i32.const 0)
- )
- (func $~lib/map/Map<u8,i32>#has (; 21 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.ne
-   (call $~lib/map/Map<u8,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<u8>|inlined.0 (result i32)
-     (br $~lib/internal/hash/hash<u8>|inlined.0
-      (call $~lib/internal/hash/hash8
-       (i32.and
-        (get_local $1)
-        (i32.const 255)
-       )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
       )
+      (i32.const 0)
      )
     )
-   )
-   (i32.const 0)
-  )
- )
- (func $~lib/map/Map<u8,i32>#rehash (; 22 ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (local $9 i32)
-  (local $10 i32)
-  (local $11 i32)
-  (local $12 i32)
-  (set_local $2
-   (i32.add
-    (get_local $1)
-    (i32.const 1)
-   )
-  )
-  (set_local $3
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $2)
-     (get_global $~lib/map/BUCKET_SIZE)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 56)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (i32.const 0)
    )
-  )
-  (set_local $4
-   (i32.trunc_s/f64
-    (f64.mul
-     (f64.convert_s/i32
-      (get_local $2)
+   (block $break|6
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<KeyValue<i8,i32>>#__iterator
+      (call $~lib/map/Map<i8,i32>#entries
+       (get_local $0)
+      )
      )
-     (get_global $~lib/map/FILL_FACTOR)
     )
-   )
-  )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $4)
-     (block $~lib/map/ENTRY_SIZE<u8,i32>|inlined.1 (result i32)
-      (i32.const 12)
+    (loop $repeat|6
+     (br_if $break|6
+      (call $~lib/iterator/Iterator<KeyValue<i8,i32>>#get:done|virtual
+       (get_local $1)
+      )
+     )
+     (set_local $6
+      (call $~lib/iterator/Iterator<KeyValue<i8,i32>>#next|virtual
+       (get_local $1)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load offset=4
+          (get_local $6)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.load8_s
+           (get_local $6)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 58)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
      )
+     (br $repeat|6)
     )
-    (i32.const 1)
    )
-  )
-  (set_local $6
-   (i32.add
-    (i32.load offset=8
-     (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 61)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
    )
-  )
-  (set_local $7
-   (i32.add
-    (get_local $6)
-    (i32.mul
-     (i32.load offset=16
+   (block $break|7
+    (set_local $6
+     (call $~lib/map/Map<i8,i32>#__iterator
       (get_local $0)
      )
-     (block $~lib/map/ENTRY_SIZE<u8,i32>|inlined.2 (result i32)
-      (i32.const 12)
-     )
     )
-   )
-  )
-  (set_local $8
-   (i32.add
-    (get_local $5)
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
-   )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (i32.ne
-      (get_local $6)
-      (get_local $7)
+    (loop $repeat|7
+     (br_if $break|7
+      (call $~lib/iterator/Iterator<KeyValue<i8,i32>>#get:done|virtual
+       (get_local $6)
+      )
+     )
+     (set_local $1
+      (call $~lib/iterator/Iterator<KeyValue<i8,i32>>#next|virtual
+       (get_local $6)
+      )
      )
      (block
-      (block
-       (set_local $9
-        (get_local $6)
-       )
-       (if
-        (i32.eqz
-         (i32.and
-          (i32.load offset=8
-           (get_local $9)
-          )
-          (get_global $~lib/map/EMPTY)
-         )
-        )
-        (block
-         (set_local $10
-          (get_local $8)
-         )
-         (i32.store8
-          (get_local $10)
-          (i32.load8_u
-           (get_local $9)
-          )
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load offset=4
+          (get_local $1)
          )
-         (i32.store offset=4
-          (get_local $10)
-          (i32.load offset=4
-           (get_local $9)
-          )
-         )
-         (set_local $11
-          (i32.and
-           (block $~lib/internal/hash/hash<u8>|inlined.2 (result i32)
-            (set_local $11
-             (i32.load8_u
-              (get_local $9)
-             )
-            )
-            (br $~lib/internal/hash/hash<u8>|inlined.2
-             (call $~lib/internal/hash/hash8
-              (get_local $11)
-             )
-            )
-           )
-           (get_local $1)
-          )
-         )
-         (set_local $12
-          (i32.add
-           (get_local $3)
-           (i32.mul
-            (get_local $11)
-            (get_global $~lib/map/BUCKET_SIZE)
-           )
-          )
-         )
-         (i32.store offset=8
-          (get_local $10)
-          (i32.load offset=8
-           (get_local $12)
-          )
-         )
-         (i32.store offset=8
-          (get_local $12)
-          (get_local $8)
-         )
-         (set_local $8
-          (i32.add
-           (get_local $8)
-           (block $~lib/map/ENTRY_SIZE<u8,i32>|inlined.3 (result i32)
-            (i32.const 12)
-           )
+         (i32.add
+          (i32.const 20)
+          (i32.load8_s
+           (get_local $1)
           )
          )
         )
        )
-       (set_local $6
-        (i32.add
-         (get_local $6)
-         (block $~lib/map/ENTRY_SIZE<u8,i32>|inlined.4 (result i32)
-          (i32.const 12)
-         )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 63)
+         (i32.const 4)
         )
+        (unreachable)
        )
       )
-      (br $continue|0)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|7)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 66)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/map/Map<i8,i32>#forEach
+    (get_local $0)
+    (block (result i32)
+     (set_local $1
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (i32.store
+      (get_local $1)
+      (i32.const 0)
+     )
+     (i32.store offset=4
+      (get_local $1)
+      (get_local $2)
+     )
+     (get_local $1)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 71)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/map/Map<i8,i32>#clear
+    (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<i8,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 75)
+      (i32.const 2)
      )
+     (unreachable)
     )
    )
   )
+ )
+ (func $~lib/map/Map<u8,i32>#clear (; 27 ;) (type $iv) (param $0 i32)
   (i32.store
    (get_local $0)
-   (get_local $3)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 16)
+    (i32.const 0)
+   )
   )
   (i32.store offset=4
    (get_local $0)
-   (get_local $1)
+   (i32.sub
+    (get_global $~lib/map/INITIAL_CAPACITY)
+    (i32.const 1)
+   )
   )
   (i32.store offset=8
    (get_local $0)
-   (get_local $5)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 48)
+    (i32.const 1)
+   )
   )
   (i32.store offset=12
    (get_local $0)
-   (get_local $4)
+   (get_global $~lib/map/INITIAL_CAPACITY)
   )
   (i32.store offset=16
    (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/map/Map<u8,i32>#constructor (; 28 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/map/Map<u8,i32>#clear
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $1
+        (call $~lib/memory/memory.allocate
+         (i32.const 24)
+        )
+       )
+       (i32.store
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=8
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=12
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=16
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=20
+        (get_local $1)
+        (i32.const 0)
+       )
+       (get_local $1)
+      )
+     )
+    )
    )
   )
+  (get_local $0)
  )
- (func $~lib/map/Map<u8,i32>#set (; 23 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+ (func $~lib/map/Map<u8,i32>#find (; 29 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
   (local $3 i32)
   (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
   (set_local $3
-   (block $~lib/internal/hash/hash<u8>|inlined.1 (result i32)
-    (br $~lib/internal/hash/hash<u8>|inlined.1
-     (call $~lib/internal/hash/hash8
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (i32.mul
       (i32.and
-       (get_local $1)
-       (i32.const 255)
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
+       )
       )
+      (get_global $~lib/map/BUCKET_SIZE)
      )
     )
    )
   )
-  (set_local $4
-   (call $~lib/map/Map<u8,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (get_local $3)
-   )
-  )
-  (if
-   (get_local $4)
-   (i32.store offset=4
-    (get_local $4)
-    (get_local $2)
-   )
-   (block
+  (block $break|0
+   (loop $continue|0
     (if
-     (i32.eq
-      (i32.load offset=16
-       (get_local $0)
-      )
-      (i32.load offset=12
-       (get_local $0)
-      )
-     )
-     (call $~lib/map/Map<u8,i32>#rehash
-      (get_local $0)
-      (if (result i32)
-       (i32.lt_s
-        (i32.load offset=20
-         (get_local $0)
-        )
-        (i32.trunc_s/f64
-         (f64.mul
-          (f64.convert_s/i32
-           (i32.load offset=12
-            (get_local $0)
+     (get_local $3)
+     (block
+      (block
+       (if
+        (if (result i32)
+         (tee_local $4
+          (i32.eqz
+           (i32.and
+            (i32.load offset=8
+             (get_local $3)
+            )
+            (get_global $~lib/map/EMPTY)
            )
           )
-          (get_global $~lib/map/FREE_FACTOR)
          )
+         (i32.eq
+          (i32.load8_u
+           (get_local $3)
+          )
+          (i32.and
+           (get_local $1)
+           (i32.const 255)
+          )
+         )
+         (get_local $4)
+        )
+        (return
+         (get_local $3)
         )
        )
-       (i32.load offset=4
-        (get_local $0)
-       )
-       (i32.or
-        (i32.shl
-         (i32.load offset=4
-          (get_local $0)
-         )
-         (i32.const 1)
-        )
-        (i32.const 1)
-       )
-      )
-     )
-    )
-    (set_local $5
-     (i32.load offset=8
-      (get_local $0)
-     )
-    )
-    (set_local $4
-     (i32.add
-      (i32.add
-       (get_local $5)
-       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
-      )
-      (i32.mul
-       (block (result i32)
-        (set_local $6
-         (i32.load offset=16
-          (get_local $0)
+       (set_local $3
+        (i32.and
+         (i32.load offset=8
+          (get_local $3)
          )
-        )
-        (i32.store offset=16
-         (get_local $0)
-         (i32.add
-          (get_local $6)
-          (i32.const 1)
+         (i32.xor
+          (get_global $~lib/map/EMPTY)
+          (i32.const -1)
          )
         )
-        (get_local $6)
-       )
-       (block $~lib/map/ENTRY_SIZE<u8,i32>|inlined.5 (result i32)
-        (i32.const 12)
-       )
-      )
-     )
-    )
-    (i32.store8
-     (get_local $4)
-     (get_local $1)
-    )
-    (i32.store offset=4
-     (get_local $4)
-     (get_local $2)
-    )
-    (i32.store offset=20
-     (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
-      )
-      (i32.const 1)
-     )
-    )
-    (set_local $6
-     (i32.add
-      (i32.load
-       (get_local $0)
-      )
-      (i32.mul
-       (i32.and
-        (get_local $3)
-        (i32.load offset=4
-         (get_local $0)
-        )
        )
-       (get_global $~lib/map/BUCKET_SIZE)
       )
+      (br $continue|0)
      )
     )
-    (i32.store offset=8
-     (get_local $4)
-     (i32.load offset=8
-      (get_local $6)
-     )
-    )
-    (i32.store offset=8
-     (get_local $6)
-     (get_local $4)
-    )
    )
   )
+  (i32.const 0)
  )
- (func $~lib/map/Map<u8,i32>#get (; 24 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (set_local $2
+ (func $~lib/map/Map<u8,i32>#has (; 30 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.ne
    (call $~lib/map/Map<u8,i32>#find
     (get_local $0)
     (get_local $1)
-    (block $~lib/internal/hash/hash<u8>|inlined.3 (result i32)
-     (br $~lib/internal/hash/hash<u8>|inlined.3
+    (block $~lib/internal/hash/hash<u8>|inlined.0 (result i32)
+     (br $~lib/internal/hash/hash<u8>|inlined.0
       (call $~lib/internal/hash/hash8
        (i32.and
         (get_local $1)
@@ -2374,849 +2721,752 @@
      )
     )
    )
-  )
-  (if (result i32)
-   (get_local $2)
-   (i32.load offset=4
-    (get_local $2)
-   )
-   (unreachable)
-  )
- )
- (func $~lib/map/Map<u8,i32>#get:size (; 25 ;) (type $ii) (param $0 i32) (result i32)
-  (i32.load offset=20
-   (get_local $0)
+   (i32.const 0)
   )
  )
- (func $~lib/map/Map<u8,i32>#delete (; 26 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/map/Map<u8,i32>#rehash (; 31 ;) (type $iiv) (param $0 i32) (param $1 i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
   (set_local $2
-   (call $~lib/map/Map<u8,i32>#find
-    (get_local $0)
+   (i32.add
     (get_local $1)
-    (block $~lib/internal/hash/hash<u8>|inlined.4 (result i32)
-     (br $~lib/internal/hash/hash<u8>|inlined.4
-      (call $~lib/internal/hash/hash8
-       (i32.and
-        (get_local $1)
-        (i32.const 255)
-       )
-      )
-     )
-    )
+    (i32.const 1)
    )
   )
-  (if
-   (i32.eqz
-    (get_local $2)
-   )
-   (return
+  (set_local $3
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $2)
+     (get_global $~lib/map/BUCKET_SIZE)
+    )
     (i32.const 0)
    )
   )
-  (i32.store offset=8
-   (get_local $2)
-   (i32.or
-    (i32.load offset=8
-     (get_local $2)
+  (set_local $4
+   (i32.trunc_s/f64
+    (f64.mul
+     (f64.convert_s/i32
+      (get_local $2)
+     )
+     (get_global $~lib/map/FILL_FACTOR)
     )
-    (get_global $~lib/map/EMPTY)
    )
   )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.sub
-    (i32.load offset=20
-     (get_local $0)
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $4)
+     (block $~lib/map/ENTRY_SIZE<u8,i32>|inlined.1 (result i32)
+      (i32.const 12)
+     )
     )
     (i32.const 1)
    )
   )
-  (set_local $3
-   (i32.shr_u
-    (i32.load offset=4
+  (set_local $6
+   (i32.add
+    (i32.load offset=8
      (get_local $0)
     )
-    (i32.const 1)
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
    )
   )
-  (if
-   (if (result i32)
-    (tee_local $4
-     (i32.ge_u
-      (i32.add
-       (get_local $3)
-       (i32.const 1)
-      )
-      (select
-       (tee_local $4
-        (get_global $~lib/map/INITIAL_CAPACITY)
-       )
-       (tee_local $5
-        (i32.load offset=20
-         (get_local $0)
-        )
-       )
-       (i32.gt_u
-        (get_local $4)
-        (get_local $5)
-       )
-      )
-     )
-    )
-    (i32.lt_s
-     (i32.load offset=20
+  (set_local $7
+   (i32.add
+    (get_local $6)
+    (i32.mul
+     (i32.load offset=16
       (get_local $0)
      )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $0)
-        )
-       )
-       (get_global $~lib/map/FREE_FACTOR)
-      )
+     (block $~lib/map/ENTRY_SIZE<u8,i32>|inlined.2 (result i32)
+      (i32.const 12)
      )
     )
-    (get_local $4)
-   )
-   (call $~lib/map/Map<u8,i32>#rehash
-    (get_local $0)
-    (get_local $3)
    )
   )
-  (i32.const 1)
- )
- (func $std/map/test<u8,i32> (; 27 ;) (type $v)
-  (local $0 i32)
-  (local $1 i32)
-  (set_local $0
-   (call $~lib/map/Map<u8,i32>#constructor
-    (i32.const 0)
+  (set_local $8
+   (i32.add
+    (get_local $5)
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
    )
   )
   (block $break|0
-   (set_local $1
-    (i32.const 0)
-   )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (i32.lt_u
-       (get_local $1)
-       (i32.const 100)
-      )
+   (loop $continue|0
+    (if
+     (i32.ne
+      (get_local $6)
+      (get_local $7)
      )
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<u8,i32>#has
-         (get_local $0)
-         (get_local $1)
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 8)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/map/Map<u8,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 10)
-       (i32.and
-        (get_local $1)
-        (i32.const 255)
-       )
-      )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<u8,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
+     (block
       (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 10)
-        (i32.const 4)
+       (set_local $9
+        (get_local $6)
        )
-       (unreachable)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<u8,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 10)
+       (if
+        (i32.eqz
          (i32.and
-          (get_local $1)
-          (i32.const 255)
+          (i32.load offset=8
+           (get_local $9)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (block
+         (set_local $10
+          (get_local $8)
+         )
+         (i32.store8
+          (get_local $10)
+          (i32.load8_u
+           (get_local $9)
+          )
+         )
+         (i32.store offset=4
+          (get_local $10)
+          (i32.load offset=4
+           (get_local $9)
+          )
+         )
+         (set_local $11
+          (i32.and
+           (block $~lib/internal/hash/hash<u8>|inlined.2 (result i32)
+            (set_local $11
+             (i32.load8_u
+              (get_local $9)
+             )
+            )
+            (br $~lib/internal/hash/hash<u8>|inlined.2
+             (call $~lib/internal/hash/hash8
+              (get_local $11)
+             )
+            )
+           )
+           (get_local $1)
+          )
+         )
+         (set_local $12
+          (i32.add
+           (get_local $3)
+           (i32.mul
+            (get_local $11)
+            (get_global $~lib/map/BUCKET_SIZE)
+           )
+          )
+         )
+         (i32.store offset=8
+          (get_local $10)
+          (i32.load offset=8
+           (get_local $12)
+          )
+         )
+         (i32.store offset=8
+          (get_local $12)
+          (get_local $8)
+         )
+         (set_local $8
+          (i32.add
+           (get_local $8)
+           (block $~lib/map/ENTRY_SIZE<u8,i32>|inlined.3 (result i32)
+            (i32.const 12)
+           )
+          )
          )
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 11)
-        (i32.const 4)
+       (set_local $6
+        (i32.add
+         (get_local $6)
+         (block $~lib/map/ENTRY_SIZE<u8,i32>|inlined.4 (result i32)
+          (i32.const 12)
+         )
+        )
        )
-       (unreachable)
       )
+      (br $continue|0)
      )
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
-     )
-    )
-    (br $repeat|0)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<u8,i32>#get:size
-      (get_local $0)
-     )
-     (i32.const 100)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 13)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
+  (i32.store
+   (get_local $0)
+   (get_local $3)
   )
-  (block $break|1
-   (set_local $1
-    (i32.const 0)
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
    )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.eqz
-      (i32.lt_u
+  )
+ )
+ (func $~lib/map/Map<u8,i32>#set (; 32 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $3
+   (block $~lib/internal/hash/hash<u8>|inlined.1 (result i32)
+    (br $~lib/internal/hash/hash<u8>|inlined.1
+     (call $~lib/internal/hash/hash8
+      (i32.and
        (get_local $1)
-       (i32.const 100)
+       (i32.const 255)
       )
      )
     )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<u8,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
+   )
+  )
+  (set_local $4
+   (call $~lib/map/Map<u8,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (get_local $3)
+   )
+  )
+  (if
+   (get_local $4)
+   (i32.store offset=4
+    (get_local $4)
+    (get_local $2)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 17)
-        (i32.const 4)
-       )
-       (unreachable)
+      (i32.load offset=12
+       (get_local $0)
       )
      )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<u8,i32>#get
+     (call $~lib/map/Map<u8,i32>#rehash
+      (get_local $0)
+      (if (result i32)
+       (i32.lt_s
+        (i32.load offset=20
          (get_local $0)
-         (get_local $1)
         )
-        (i32.add
-         (i32.const 10)
-         (i32.and
-          (get_local $1)
-          (i32.const 255)
+        (i32.trunc_s/f64
+         (f64.mul
+          (f64.convert_s/i32
+           (i32.load offset=12
+            (get_local $0)
+           )
+          )
+          (get_global $~lib/map/FREE_FACTOR)
          )
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 18)
-        (i32.const 4)
+       (i32.load offset=4
+        (get_local $0)
+       )
+       (i32.or
+        (i32.shl
+         (i32.load offset=4
+          (get_local $0)
+         )
+         (i32.const 1)
+        )
+        (i32.const 1)
        )
-       (unreachable)
       )
      )
-     (call $~lib/map/Map<u8,i32>#set
+    )
+    (set_local $5
+     (i32.load offset=8
       (get_local $0)
-      (get_local $1)
+     )
+    )
+    (set_local $4
+     (i32.add
       (i32.add
-       (i32.const 20)
-       (i32.and
-        (get_local $1)
-        (i32.const 255)
-       )
+       (get_local $5)
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
       )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<u8,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 20)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<u8,i32>#get
-         (get_local $0)
-         (get_local $1)
+      (i32.mul
+       (block (result i32)
+        (set_local $6
+         (i32.load offset=16
+          (get_local $0)
+         )
         )
-        (i32.add
-         (i32.const 20)
-         (i32.and
-          (get_local $1)
-          (i32.const 255)
+        (i32.store offset=16
+         (get_local $0)
+         (i32.add
+          (get_local $6)
+          (i32.const 1)
          )
         )
+        (get_local $6)
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 21)
-        (i32.const 4)
+       (block $~lib/map/ENTRY_SIZE<u8,i32>|inlined.5 (result i32)
+        (i32.const 12)
        )
-       (unreachable)
       )
      )
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
-     )
-    )
-    (br $repeat|1)
-   )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<u8,i32>#get:size
-      (get_local $0)
-     )
-     (i32.const 100)
+    (i32.store8
+     (get_local $4)
+     (get_local $1)
     )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 23)
-     (i32.const 2)
+    (i32.store offset=4
+     (get_local $4)
+     (get_local $2)
     )
-    (unreachable)
-   )
-  )
-  (block $break|2
-   (set_local $1
-    (i32.const 0)
-   )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (i32.lt_u
-       (get_local $1)
-       (i32.const 50)
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
       )
+      (i32.const 1)
      )
     )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<u8,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 27)
-        (i32.const 4)
-       )
-       (unreachable)
+    (set_local $6
+     (i32.add
+      (i32.load
+       (get_local $0)
       )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<u8,i32>#get
+      (i32.mul
+       (i32.and
+        (get_local $3)
+        (i32.load offset=4
          (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 20)
-         (i32.and
-          (get_local $1)
-          (i32.const 255)
-         )
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 28)
-        (i32.const 4)
-       )
-       (unreachable)
+       (get_global $~lib/map/BUCKET_SIZE)
       )
      )
-     (drop
-      (call $~lib/map/Map<u8,i32>#delete
-       (get_local $0)
-       (get_local $1)
-      )
+    )
+    (i32.store offset=8
+     (get_local $4)
+     (i32.load offset=8
+      (get_local $6)
      )
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<u8,i32>#has
-         (get_local $0)
-         (get_local $1)
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 30)
-        (i32.const 4)
+    )
+    (i32.store offset=8
+     (get_local $6)
+     (get_local $4)
+    )
+   )
+  )
+ )
+ (func $~lib/map/Map<u8,i32>#get (; 33 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (call $~lib/map/Map<u8,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<u8>|inlined.3 (result i32)
+     (br $~lib/internal/hash/hash<u8>|inlined.3
+      (call $~lib/internal/hash/hash8
+       (i32.and
+        (get_local $1)
+        (i32.const 255)
        )
-       (unreachable)
       )
      )
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+   )
+  )
+  (if (result i32)
+   (get_local $2)
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (unreachable)
+  )
+ )
+ (func $~lib/map/Map<u8,i32>#get:size (; 34 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=20
+   (get_local $0)
+  )
+ )
+ (func $~lib/map/Map<u8,i32>#delete (; 35 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (call $~lib/map/Map<u8,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<u8>|inlined.4 (result i32)
+     (br $~lib/internal/hash/hash<u8>|inlined.4
+      (call $~lib/internal/hash/hash8
+       (i32.and
+        (get_local $1)
+        (i32.const 255)
+       )
+      )
      )
     )
-    (br $repeat|2)
    )
   )
   (if
    (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<u8,i32>#get:size
-      (get_local $0)
-     )
-     (i32.const 50)
+    (get_local $2)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=8
+   (get_local $2)
+   (i32.or
+    (i32.load offset=8
+     (get_local $2)
     )
+    (get_global $~lib/map/EMPTY)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 32)
-     (i32.const 2)
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $0)
     )
-    (unreachable)
+    (i32.const 1)
    )
   )
-  (block $break|3
-   (set_local $1
-    (i32.const 0)
+  (set_local $3
+   (i32.shr_u
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.const 1)
    )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (i32.lt_u
-       (get_local $1)
-       (i32.const 50)
+  )
+  (if
+   (if (result i32)
+    (tee_local $4
+     (i32.ge_u
+      (i32.add
+       (get_local $3)
+       (i32.const 1)
       )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<u8,i32>#has
+      (select
+       (tee_local $4
+        (get_global $~lib/map/INITIAL_CAPACITY)
+       )
+       (tee_local $5
+        (i32.load offset=20
          (get_local $0)
-         (get_local $1)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 36)
-        (i32.const 4)
+       (i32.gt_u
+        (get_local $4)
+        (get_local $5)
        )
-       (unreachable)
       )
      )
-     (call $~lib/map/Map<u8,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 10)
-       (i32.and
-        (get_local $1)
-        (i32.const 255)
-       )
-      )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<u8,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 38)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (drop
-      (call $~lib/map/Map<u8,i32>#delete
-       (get_local $0)
-       (get_local $1)
-      )
+    )
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $0)
      )
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<u8,i32>#has
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
          (get_local $0)
-         (get_local $1)
         )
        )
+       (get_global $~lib/map/FREE_FACTOR)
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 40)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-    )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
      )
     )
-    (br $repeat|3)
+    (get_local $4)
+   )
+   (call $~lib/map/Map<u8,i32>#rehash
+    (get_local $0)
+    (get_local $3)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<u8,i32>#get:size
-      (get_local $0)
+  (i32.const 1)
+ )
+ (func $~lib/map/Map<u8,i32>#keys (; 36 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 24)
+      )
+      (get_local $2)
      )
-     (i32.const 50)
     )
-   )
-   (block
-    (call $~lib/env/abort
+    (i32.store
+     (get_local $1)
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
     )
-    (unreachable)
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
    )
   )
-  (call $~lib/map/Map<u8,i32>#clear
+  (i32.store
+   (get_local $3)
    (get_local $0)
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<u8,i32>#get:size
-      (get_local $0)
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<u8>#__iterator (; 37 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/map/Map<u8,i32>#values (; 38 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 26)
+      )
+      (get_local $2)
      )
+    )
+    (i32.store
+     (get_local $1)
      (i32.const 0)
     )
-   )
-   (block
-    (call $~lib/env/abort
+    (i32.store offset=4
+     (get_local $1)
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 46)
-     (i32.const 2)
     )
-    (unreachable)
+    (get_local $1)
    )
   )
- )
- (func $~lib/map/Map<i16,i32>#clear (; 28 ;) (type $iv) (param $0 i32)
   (i32.store
+   (get_local $3)
    (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 16)
-    (i32.const 0)
-   )
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (i32.sub
-    (get_global $~lib/map/INITIAL_CAPACITY)
-    (i32.const 1)
-   )
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 48)
-    (i32.const 1)
-   )
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_global $~lib/map/INITIAL_CAPACITY)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.const 0)
   )
+  (get_local $3)
  )
- (func $~lib/map/Map<i16,i32>#constructor (; 29 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/map/Map<u8,i32>#entries (; 39 ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
-  (call $~lib/map/Map<i16,i32>#clear
-   (tee_local $0
-    (if (result i32)
-     (get_local $0)
-     (get_local $0)
-     (tee_local $0
-      (block (result i32)
-       (set_local $1
-        (call $~lib/memory/memory.allocate
-         (i32.const 24)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
         )
+        (i32.const 4)
        )
-       (i32.store
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=4
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=8
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=12
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=16
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=20
-        (get_local $1)
-        (i32.const 0)
-       )
-       (get_local $1)
+       (i32.const 31)
       )
+      (get_local $2)
      )
     )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
    )
   )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<KeyValue<u8,i32>>#__iterator (; 40 ;) (type $ii) (param $0 i32) (result i32)
   (get_local $0)
  )
- (func $~lib/internal/hash/hash16 (; 30 ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (set_local $1
-   (get_global $~lib/internal/hash/FNV_OFFSET)
+ (func $~lib/map/Map<u8,i32>#__iterator (; 41 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/map/Map<u8,i32>#entries
+   (get_local $0)
   )
-  (set_local $1
-   (i32.mul
-    (i32.xor
-     (get_local $1)
-     (i32.and
-      (get_local $0)
-      (i32.const 255)
-     )
-    )
-    (get_global $~lib/internal/hash/FNV_PRIME)
+ )
+ (func $std/map/test<u8,i32>~anonymous|1 (; 42 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
    )
   )
-  (set_local $1
-   (i32.mul
-    (i32.xor
-     (get_local $1)
-     (i32.shr_u
+  (block
+   (if
+    (i32.eqz
+     (i32.eq
       (get_local $0)
-      (i32.const 8)
+      (i32.add
+       (i32.const 20)
+       (i32.and
+        (get_local $1)
+        (i32.const 255)
+       )
+      )
      )
     )
-    (get_global $~lib/internal/hash/FNV_PRIME)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 68)
+      (i32.const 4)
+     )
+     (unreachable)
+    )
    )
-  )
-  (get_local $1)
- )
- (func $~lib/map/Map<i16,i32>#find (; 31 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
-  (local $3 i32)
-  (local $4 i32)
-  (set_local $3
-   (i32.load offset=8
+   (i32.store offset=4
+    (get_local $3)
     (i32.add
-     (i32.load
-      (get_local $0)
+     (i32.load offset=4
+      (get_local $3)
      )
-     (i32.mul
-      (i32.and
+     (i32.const 1)
+    )
+   )
+  )
+ )
+ (func $~lib/map/Map<u8,i32>#forEach (; 43 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
        (get_local $2)
-       (i32.load offset=4
+       (i32.load offset=16
         (get_local $0)
        )
       )
-      (get_global $~lib/map/BUCKET_SIZE)
      )
     )
-   )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (get_local $3)
-     (block
-      (block
-       (if
-        (if (result i32)
-         (tee_local $4
-          (i32.eqz
-           (i32.and
-            (i32.load offset=8
-             (get_local $3)
-            )
-            (get_global $~lib/map/EMPTY)
-           )
-          )
-         )
-         (i32.eq
-          (i32.load16_s
-           (get_local $3)
-          )
-          (i32.shr_s
-           (i32.shl
-            (get_local $1)
-            (i32.const 16)
-           )
-           (i32.const 16)
-          )
-         )
-         (get_local $4)
+    (block
+     (set_local $3
+      (i32.add
+       (i32.add
+        (i32.load offset=8
+         (get_local $0)
         )
-        (return
+        (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+       )
+       (i32.mul
+        (get_local $2)
+        (block $~lib/map/ENTRY_SIZE<u8,i32>|inlined.6 (result i32)
+         (i32.const 12)
+        )
+       )
+      )
+     )
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=8
          (get_local $3)
         )
+        (get_global $~lib/map/EMPTY)
        )
-       (set_local $3
-        (i32.and
-         (i32.load offset=8
-          (get_local $3)
+      )
+      (block
+       (set_global $~argc
+        (i32.const 3)
+       )
+       (call_indirect (type $iiiv)
+        (i32.load offset=4
+         (get_local $3)
+        )
+        (i32.load8_u
+         (get_local $3)
+        )
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (get_local $1)
          )
-         (i32.xor
-          (get_global $~lib/map/EMPTY)
-          (i32.const -1)
+         (i32.load
+          (get_global $~env)
          )
         )
        )
       )
-      (br $continue|0)
      )
     )
-   )
-  )
-  (i32.const 0)
- )
- (func $~lib/map/Map<i16,i32>#has (; 32 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.ne
-   (call $~lib/map/Map<i16,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<i16>|inlined.0 (result i32)
-     (br $~lib/internal/hash/hash<i16>|inlined.0
-      (call $~lib/internal/hash/hash16
-       (i32.shr_s
-        (i32.shl
-         (get_local $1)
-         (i32.const 16)
-        )
-        (i32.const 16)
-       )
-      )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
      )
     )
+    (br $repeat|0)
    )
-   (i32.const 0)
   )
  )
- (func $~lib/map/Map<i16,i32>#rehash (; 33 ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $std/map/test<u8,i32> (; 44 ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
@@ -3224,1025 +3474,951 @@
   (local $6 i32)
   (local $7 i32)
   (local $8 i32)
-  (local $9 i32)
-  (local $10 i32)
-  (local $11 i32)
-  (local $12 i32)
   (set_local $2
-   (i32.add
-    (get_local $1)
-    (i32.const 1)
-   )
-  )
-  (set_local $3
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $2)
-     (get_global $~lib/map/BUCKET_SIZE)
-    )
-    (i32.const 0)
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
    )
   )
-  (set_local $4
-   (i32.trunc_s/f64
-    (f64.mul
-     (f64.convert_s/i32
-      (get_local $2)
-     )
-     (get_global $~lib/map/FILL_FACTOR)
-    )
-   )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
   )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $4)
-     (block $~lib/map/ENTRY_SIZE<i16,i32>|inlined.1 (result i32)
-      (i32.const 12)
-     )
-    )
-    (i32.const 1)
-   )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
   )
-  (set_local $6
-   (i32.add
-    (i32.load offset=8
-     (get_local $0)
+  (block
+   (set_local $0
+    (call $~lib/map/Map<u8,i32>#constructor
+     (i32.const 0)
     )
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
    )
-  )
-  (set_local $7
-   (i32.add
-    (get_local $6)
-    (i32.mul
-     (i32.load offset=16
-      (get_local $0)
-     )
-     (block $~lib/map/ENTRY_SIZE<i16,i32>|inlined.2 (result i32)
-      (i32.const 12)
-     )
+   (block $break|0
+    (set_local $1
+     (i32.const 0)
     )
-   )
-  )
-  (set_local $8
-   (i32.add
-    (get_local $5)
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
-   )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (i32.ne
-      (get_local $6)
-      (get_local $7)
+    (loop $repeat|0
+     (br_if $break|0
+      (i32.eqz
+       (i32.lt_u
+        (get_local $1)
+        (i32.const 100)
+       )
+      )
      )
      (block
-      (block
-       (set_local $9
-        (get_local $6)
-       )
-       (if
+      (if
+       (i32.eqz
         (i32.eqz
-         (i32.and
-          (i32.load offset=8
-           (get_local $9)
-          )
-          (get_global $~lib/map/EMPTY)
+         (call $~lib/map/Map<u8,i32>#has
+          (get_local $0)
+          (get_local $1)
          )
         )
-        (block
-         (set_local $10
-          (get_local $8)
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 8)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/map/Map<u8,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 10)
+        (i32.and
+         (get_local $1)
+         (i32.const 255)
+        )
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<u8,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 10)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<u8,i32>#get
+          (get_local $0)
+          (get_local $1)
          )
-         (i32.store16
-          (get_local $10)
-          (i32.load16_s
-           (get_local $9)
-          )
-         )
-         (i32.store offset=4
-          (get_local $10)
-          (i32.load offset=4
-           (get_local $9)
-          )
-         )
-         (set_local $11
-          (i32.and
-           (block $~lib/internal/hash/hash<i16>|inlined.2 (result i32)
-            (set_local $11
-             (i32.load16_s
-              (get_local $9)
-             )
-            )
-            (br $~lib/internal/hash/hash<i16>|inlined.2
-             (call $~lib/internal/hash/hash16
-              (get_local $11)
-             )
-            )
-           )
-           (get_local $1)
-          )
-         )
-         (set_local $12
-          (i32.add
-           (get_local $3)
-           (i32.mul
-            (get_local $11)
-            (get_global $~lib/map/BUCKET_SIZE)
-           )
-          )
-         )
-         (i32.store offset=8
-          (get_local $10)
-          (i32.load offset=8
-           (get_local $12)
-          )
-         )
-         (i32.store offset=8
-          (get_local $12)
-          (get_local $8)
-         )
-         (set_local $8
-          (i32.add
-           (get_local $8)
-           (block $~lib/map/ENTRY_SIZE<i16,i32>|inlined.3 (result i32)
-            (i32.const 12)
-           )
+         (i32.add
+          (i32.const 10)
+          (i32.and
+           (get_local $1)
+           (i32.const 255)
           )
          )
         )
        )
-       (set_local $6
-        (i32.add
-         (get_local $6)
-         (block $~lib/map/ENTRY_SIZE<i16,i32>|inlined.4 (result i32)
-          (i32.const 12)
-         )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 11)
+         (i32.const 4)
         )
+        (unreachable)
        )
       )
-      (br $continue|0)
      )
-    )
-   )
-  )
-  (i32.store
-   (get_local $0)
-   (get_local $3)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $4)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
-   )
-  )
- )
- (func $~lib/map/Map<i16,i32>#set (; 34 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (set_local $3
-   (block $~lib/internal/hash/hash<i16>|inlined.1 (result i32)
-    (br $~lib/internal/hash/hash<i16>|inlined.1
-     (call $~lib/internal/hash/hash16
-      (i32.shr_s
-       (i32.shl
-        (get_local $1)
-        (i32.const 16)
-       )
-       (i32.const 16)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
       )
      )
+     (br $repeat|0)
     )
    )
-  )
-  (set_local $4
-   (call $~lib/map/Map<i16,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (get_local $3)
-   )
-  )
-  (if
-   (get_local $4)
-   (i32.store offset=4
-    (get_local $4)
-    (get_local $2)
-   )
-   (block
-    (if
+   (if
+    (i32.eqz
      (i32.eq
-      (i32.load offset=16
+      (call $~lib/map/Map<u8,i32>#get:size
        (get_local $0)
       )
-      (i32.load offset=12
-       (get_local $0)
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 13)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|1
+    (set_local $1
+     (i32.const 0)
+    )
+    (loop $repeat|1
+     (br_if $break|1
+      (i32.eqz
+       (i32.lt_u
+        (get_local $1)
+        (i32.const 100)
+       )
       )
      )
-     (call $~lib/map/Map<i16,i32>#rehash
-      (get_local $0)
-      (if (result i32)
-       (i32.lt_s
-        (i32.load offset=20
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<u8,i32>#has
          (get_local $0)
+         (get_local $1)
         )
-        (i32.trunc_s/f64
-         (f64.mul
-          (f64.convert_s/i32
-           (i32.load offset=12
-            (get_local $0)
-           )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 17)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<u8,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 10)
+          (i32.and
+           (get_local $1)
+           (i32.const 255)
           )
-          (get_global $~lib/map/FREE_FACTOR)
          )
         )
        )
-       (i32.load offset=4
-        (get_local $0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 18)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (i32.or
-        (i32.shl
-         (i32.load offset=4
-          (get_local $0)
-         )
-         (i32.const 1)
+      )
+      (call $~lib/map/Map<u8,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 20)
+        (i32.and
+         (get_local $1)
+         (i32.const 255)
         )
-        (i32.const 1)
        )
       )
-     )
-    )
-    (set_local $5
-     (i32.load offset=8
-      (get_local $0)
-     )
-    )
-    (set_local $4
-     (i32.add
-      (i32.add
-       (get_local $5)
-       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<u8,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 20)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
-      (i32.mul
-       (block (result i32)
-        (set_local $6
-         (i32.load offset=16
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<u8,i32>#get
           (get_local $0)
+          (get_local $1)
          )
-        )
-        (i32.store offset=16
-         (get_local $0)
          (i32.add
-          (get_local $6)
-          (i32.const 1)
+          (i32.const 20)
+          (i32.and
+           (get_local $1)
+           (i32.const 255)
+          )
          )
         )
-        (get_local $6)
        )
-       (block $~lib/map/ENTRY_SIZE<i16,i32>|inlined.5 (result i32)
-        (i32.const 12)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 21)
+         (i32.const 4)
+        )
+        (unreachable)
        )
       )
      )
-    )
-    (i32.store16
-     (get_local $4)
-     (get_local $1)
-    )
-    (i32.store offset=4
-     (get_local $4)
-     (get_local $2)
-    )
-    (i32.store offset=20
-     (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
       )
-      (i32.const 1)
      )
+     (br $repeat|1)
     )
-    (set_local $6
-     (i32.add
-      (i32.load
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<u8,i32>#get:size
        (get_local $0)
       )
-      (i32.mul
-       (i32.and
-        (get_local $3)
-        (i32.load offset=4
-         (get_local $0)
-        )
-       )
-       (get_global $~lib/map/BUCKET_SIZE)
-      )
+      (i32.const 100)
      )
     )
-    (i32.store offset=8
-     (get_local $4)
-     (i32.load offset=8
-      (get_local $6)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 23)
+      (i32.const 2)
      )
-    )
-    (i32.store offset=8
-     (get_local $6)
-     (get_local $4)
+     (unreachable)
     )
    )
-  )
- )
- (func $~lib/map/Map<i16,i32>#get (; 35 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (set_local $2
-   (call $~lib/map/Map<i16,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<i16>|inlined.3 (result i32)
-     (br $~lib/internal/hash/hash<i16>|inlined.3
-      (call $~lib/internal/hash/hash16
-       (i32.shr_s
-        (i32.shl
-         (get_local $1)
-         (i32.const 16)
-        )
-        (i32.const 16)
+   (block $break|2
+    (set_local $1
+     (i32.const 0)
+    )
+    (loop $repeat|2
+     (br_if $break|2
+      (i32.eqz
+       (i32.lt_u
+        (get_local $1)
+        (i32.const 50)
        )
       )
      )
-    )
-   )
-  )
-  (if (result i32)
-   (get_local $2)
-   (i32.load offset=4
-    (get_local $2)
-   )
-   (unreachable)
-  )
- )
- (func $~lib/map/Map<i16,i32>#get:size (; 36 ;) (type $ii) (param $0 i32) (result i32)
-  (i32.load offset=20
-   (get_local $0)
-  )
- )
- (func $~lib/map/Map<i16,i32>#delete (; 37 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (set_local $2
-   (call $~lib/map/Map<i16,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<i16>|inlined.4 (result i32)
-     (br $~lib/internal/hash/hash<i16>|inlined.4
-      (call $~lib/internal/hash/hash16
-       (i32.shr_s
-        (i32.shl
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<u8,i32>#has
+         (get_local $0)
          (get_local $1)
-         (i32.const 16)
         )
-        (i32.const 16)
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 27)
+         (i32.const 4)
+        )
+        (unreachable)
        )
       )
-     )
-    )
-   )
-  )
-  (if
-   (i32.eqz
-    (get_local $2)
-   )
-   (return
-    (i32.const 0)
-   )
-  )
-  (i32.store offset=8
-   (get_local $2)
-   (i32.or
-    (i32.load offset=8
-     (get_local $2)
-    )
-    (get_global $~lib/map/EMPTY)
-   )
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.sub
-    (i32.load offset=20
-     (get_local $0)
-    )
-    (i32.const 1)
-   )
-  )
-  (set_local $3
-   (i32.shr_u
-    (i32.load offset=4
-     (get_local $0)
-    )
-    (i32.const 1)
-   )
-  )
-  (if
-   (if (result i32)
-    (tee_local $4
-     (i32.ge_u
-      (i32.add
-       (get_local $3)
-       (i32.const 1)
-      )
-      (select
-       (tee_local $4
-        (get_global $~lib/map/INITIAL_CAPACITY)
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<u8,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.and
+           (get_local $1)
+           (i32.const 255)
+          )
+         )
+        )
        )
-       (tee_local $5
-        (i32.load offset=20
-         (get_local $0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 28)
+         (i32.const 4)
         )
+        (unreachable)
        )
-       (i32.gt_u
-        (get_local $4)
-        (get_local $5)
+      )
+      (drop
+       (call $~lib/map/Map<u8,i32>#delete
+        (get_local $0)
+        (get_local $1)
        )
       )
-     )
-    )
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $0)
-     )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $0)
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<u8,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
         )
        )
-       (get_global $~lib/map/FREE_FACTOR)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 30)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
       )
      )
+     (br $repeat|2)
     )
-    (get_local $4)
-   )
-   (call $~lib/map/Map<i16,i32>#rehash
-    (get_local $0)
-    (get_local $3)
-   )
-  )
-  (i32.const 1)
- )
- (func $std/map/test<i16,i32> (; 38 ;) (type $v)
-  (local $0 i32)
-  (local $1 i32)
-  (set_local $0
-   (call $~lib/map/Map<i16,i32>#constructor
-    (i32.const 0)
-   )
-  )
-  (block $break|0
-   (set_local $1
-    (i32.const 0)
    )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 100)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<u8,i32>#get:size
+       (get_local $0)
       )
+      (i32.const 50)
      )
     )
     (block
-     (if
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 32)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|3
+    (set_local $1
+     (i32.const 0)
+    )
+    (loop $repeat|3
+     (br_if $break|3
       (i32.eqz
+       (i32.lt_u
+        (get_local $1)
+        (i32.const 50)
+       )
+      )
+     )
+     (block
+      (if
        (i32.eqz
-        (call $~lib/map/Map<i16,i32>#has
-         (get_local $0)
-         (get_local $1)
+        (i32.eqz
+         (call $~lib/map/Map<u8,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 36)
+         (i32.const 4)
         )
+        (unreachable)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 8)
-        (i32.const 4)
+      (call $~lib/map/Map<u8,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 10)
+        (i32.and
+         (get_local $1)
+         (i32.const 255)
+        )
        )
-       (unreachable)
       )
-     )
-     (call $~lib/map/Map<i16,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 10)
-       (i32.shr_s
-        (i32.shl
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<u8,i32>#has
+         (get_local $0)
          (get_local $1)
-         (i32.const 16)
         )
-        (i32.const 16)
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 38)
+         (i32.const 4)
+        )
+        (unreachable)
        )
       )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<i16,i32>#has
+      (drop
+       (call $~lib/map/Map<u8,i32>#delete
         (get_local $0)
         (get_local $1)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 10)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<i16,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 10)
-         (i32.shr_s
-          (i32.shl
-           (get_local $1)
-           (i32.const 16)
-          )
-          (i32.const 16)
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<u8,i32>#has
+          (get_local $0)
+          (get_local $1)
          )
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 11)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 40)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (br $repeat|3)
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
-     )
-    )
-    (br $repeat|0)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<i16,i32>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<u8,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
      )
-     (i32.const 100)
     )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 13)
-     (i32.const 2)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 42)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (unreachable)
    )
-  )
-  (block $break|1
-   (set_local $1
+   (i32.store offset=4
+    (get_local $2)
     (i32.const 0)
    )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 100)
+   (block $break|4
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<u8>#__iterator
+      (call $~lib/map/Map<u8,i32>#keys
+       (get_local $0)
       )
      )
     )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<i16,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 17)
-        (i32.const 4)
-       )
-       (unreachable)
+    (loop $repeat|4
+     (br_if $break|4
+      (call $~lib/iterator/Iterator<u8>#get:done|virtual
+       (get_local $1)
       )
      )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<i16,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 10)
-         (i32.shr_s
-          (i32.shl
-           (get_local $1)
-           (i32.const 16)
-          )
-          (i32.const 16)
-         )
+     (block
+      (block
+       (set_local $5
+        (call $~lib/memory/memory.allocate
+         (i32.const 5)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
+       (i32.store
+        (get_local $5)
+        (get_local $2)
+       )
+       (i32.store8 offset=4
+        (get_local $5)
         (i32.const 0)
-        (i32.const 120)
-        (i32.const 18)
-        (i32.const 4)
        )
-       (unreachable)
       )
-     )
-     (call $~lib/map/Map<i16,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 20)
-       (i32.shr_s
-        (i32.shl
-         (get_local $1)
-         (i32.const 16)
-        )
-        (i32.const 16)
+      (i32.store8 offset=4
+       (get_local $5)
+       (call $~lib/iterator/Iterator<u8>#next|virtual
+        (get_local $1)
        )
       )
      )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<i16,i32>#has
-        (get_local $0)
-        (get_local $1)
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $6
+          (i32.ge_u
+           (i32.load8_u offset=4
+            (get_local $5)
+           )
+           (i32.const 50)
+          )
+         )
+         (i32.lt_u
+          (i32.load8_u offset=4
+           (get_local $5)
+          )
+          (i32.const 100)
+         )
+         (get_local $6)
+        )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 20)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 47)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<i16,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 20)
-         (i32.shr_s
-          (i32.shl
-           (get_local $1)
-           (i32.const 16)
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<u8,i32>#get
+          (get_local $0)
+          (i32.load8_u offset=4
+           (get_local $5)
+          )
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.load8_u offset=4
+           (get_local $5)
           )
-          (i32.const 16)
          )
         )
        )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 48)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 21)
-        (i32.const 4)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
-       (unreachable)
       )
      )
+     (br $repeat|4)
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
-     )
-    )
-    (br $repeat|1)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<i16,i32>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
      )
-     (i32.const 100)
     )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 23)
-     (i32.const 2)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 51)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (unreachable)
-   )
-  )
-  (block $break|2
-   (set_local $1
-    (i32.const 0)
    )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 50)
+   (block $break|5
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<i32>#__iterator
+      (call $~lib/map/Map<u8,i32>#values
+       (get_local $0)
       )
      )
     )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<i16,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 27)
-        (i32.const 4)
-       )
-       (unreachable)
+    (loop $repeat|5
+     (br_if $break|5
+      (call $~lib/iterator/Iterator<i32>#get:done|virtual
+       (get_local $1)
       )
      )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<i16,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 20)
-         (i32.shr_s
-          (i32.shl
-           (get_local $1)
-           (i32.const 16)
-          )
-          (i32.const 16)
-         )
+     (block
+      (block
+       (set_local $8
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
+       (i32.store
+        (get_local $8)
+        (get_local $2)
+       )
+       (i32.store offset=4
+        (get_local $8)
         (i32.const 0)
-        (i32.const 120)
-        (i32.const 28)
-        (i32.const 4)
        )
-       (unreachable)
       )
-     )
-     (drop
-      (call $~lib/map/Map<i16,i32>#delete
-       (get_local $0)
-       (get_local $1)
+      (i32.store offset=4
+       (get_local $8)
+       (call $~lib/iterator/Iterator<i32>#next|virtual
+        (get_local $1)
+       )
       )
      )
-     (if
-      (i32.eqz
+     (block
+      (if
        (i32.eqz
-        (call $~lib/map/Map<i16,i32>#has
-         (get_local $0)
-         (get_local $1)
+        (if (result i32)
+         (tee_local $6
+          (i32.ge_s
+           (i32.load offset=4
+            (get_local $8)
+           )
+           (i32.const 70)
+          )
+         )
+         (i32.lt_s
+          (i32.load offset=4
+           (get_local $8)
+          )
+          (i32.const 120)
+         )
+         (get_local $6)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 53)
+         (i32.const 4)
         )
+        (unreachable)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 30)
-        (i32.const 4)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
-       (unreachable)
       )
      )
+     (br $repeat|5)
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
      )
     )
-    (br $repeat|2)
-   )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<i16,i32>#get:size
-      (get_local $0)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 56)
+      (i32.const 2)
      )
-     (i32.const 50)
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 32)
-     (i32.const 2)
+   (block $break|6
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<KeyValue<u8,i32>>#__iterator
+      (call $~lib/map/Map<u8,i32>#entries
+       (get_local $0)
+      )
+     )
     )
-    (unreachable)
-   )
-  )
-  (block $break|3
-   (set_local $1
-    (i32.const 0)
-   )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (i32.lt_s
+    (loop $repeat|6
+     (br_if $break|6
+      (call $~lib/iterator/Iterator<KeyValue<u8,i32>>#get:done|virtual
        (get_local $1)
-       (i32.const 50)
       )
      )
-    )
-    (block
-     (if
-      (i32.eqz
+     (set_local $6
+      (call $~lib/iterator/Iterator<KeyValue<u8,i32>>#next|virtual
+       (get_local $1)
+      )
+     )
+     (block
+      (if
        (i32.eqz
-        (call $~lib/map/Map<i16,i32>#has
-         (get_local $0)
-         (get_local $1)
+        (i32.eq
+         (i32.load offset=4
+          (get_local $6)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.load8_u
+           (get_local $6)
+          )
+         )
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 36)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 58)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
-     )
-     (call $~lib/map/Map<i16,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 10)
-       (i32.shr_s
-        (i32.shl
-         (get_local $1)
-         (i32.const 16)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
         )
-        (i32.const 16)
+        (i32.const 1)
        )
       )
      )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<i16,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
+     (br $repeat|6)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 38)
-        (i32.const 4)
-       )
-       (unreachable)
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 61)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|7
+    (set_local $6
+     (call $~lib/map/Map<u8,i32>#__iterator
+      (get_local $0)
+     )
+    )
+    (loop $repeat|7
+     (br_if $break|7
+      (call $~lib/iterator/Iterator<KeyValue<u8,i32>>#get:done|virtual
+       (get_local $6)
       )
      )
-     (drop
-      (call $~lib/map/Map<i16,i32>#delete
-       (get_local $0)
-       (get_local $1)
+     (set_local $1
+      (call $~lib/iterator/Iterator<KeyValue<u8,i32>>#next|virtual
+       (get_local $6)
       )
      )
-     (if
-      (i32.eqz
+     (block
+      (if
        (i32.eqz
-        (call $~lib/map/Map<i16,i32>#has
-         (get_local $0)
-         (get_local $1)
+        (i32.eq
+         (i32.load offset=4
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.load8_u
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 63)
+         (i32.const 4)
         )
+        (unreachable)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 40)
-        (i32.const 4)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
-       (unreachable)
       )
      )
+     (br $repeat|7)
     )
-    (set_local $1
-     (i32.add
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 66)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/map/Map<u8,i32>#forEach
+    (get_local $0)
+    (block (result i32)
+     (set_local $1
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (i32.store
       (get_local $1)
       (i32.const 1)
      )
+     (i32.store offset=4
+      (get_local $1)
+      (get_local $2)
+     )
+     (get_local $1)
     )
-    (br $repeat|3)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<i16,i32>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
      )
-     (i32.const 50)
     )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 71)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (unreachable)
    )
-  )
-  (call $~lib/map/Map<i16,i32>#clear
-   (get_local $0)
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<i16,i32>#get:size
-      (get_local $0)
+   (call $~lib/map/Map<u8,i32>#clear
+    (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<u8,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 0)
      )
-     (i32.const 0)
     )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 46)
-     (i32.const 2)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 75)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (unreachable)
    )
   )
  )
- (func $~lib/map/Map<u16,i32>#clear (; 39 ;) (type $iv) (param $0 i32)
+ (func $~lib/map/Map<i16,i32>#clear (; 45 ;) (type $iv) (param $0 i32)
   (i32.store
    (get_local $0)
    (call $~lib/arraybuffer/ArrayBuffer#constructor
@@ -4279,9 +4455,9 @@
    (i32.const 0)
   )
  )
- (func $~lib/map/Map<u16,i32>#constructor (; 40 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/map/Map<i16,i32>#constructor (; 46 ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
-  (call $~lib/map/Map<u16,i32>#clear
+  (call $~lib/map/Map<i16,i32>#clear
    (tee_local $0
     (if (result i32)
      (get_local $0)
@@ -4325,7 +4501,38 @@
   )
   (get_local $0)
  )
- (func $~lib/map/Map<u16,i32>#find (; 41 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+ (func $~lib/internal/hash/hash16 (; 47 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (get_global $~lib/internal/hash/FNV_OFFSET)
+  )
+  (set_local $1
+   (i32.mul
+    (i32.xor
+     (get_local $1)
+     (i32.and
+      (get_local $0)
+      (i32.const 255)
+     )
+    )
+    (get_global $~lib/internal/hash/FNV_PRIME)
+   )
+  )
+  (set_local $1
+   (i32.mul
+    (i32.xor
+     (get_local $1)
+     (i32.shr_u
+      (get_local $0)
+      (i32.const 8)
+     )
+    )
+    (get_global $~lib/internal/hash/FNV_PRIME)
+   )
+  )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<i16,i32>#find (; 48 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
   (local $3 i32)
   (local $4 i32)
   (set_local $3
@@ -4365,12 +4572,15 @@
           )
          )
          (i32.eq
-          (i32.load16_u
+          (i32.load16_s
            (get_local $3)
           )
-          (i32.and
-           (get_local $1)
-           (i32.const 65535)
+          (i32.shr_s
+           (i32.shl
+            (get_local $1)
+            (i32.const 16)
+           )
+           (i32.const 16)
           )
          )
          (get_local $4)
@@ -4398,17 +4608,20 @@
   )
   (i32.const 0)
  )
- (func $~lib/map/Map<u16,i32>#has (; 42 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/map/Map<i16,i32>#has (; 49 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (i32.ne
-   (call $~lib/map/Map<u16,i32>#find
+   (call $~lib/map/Map<i16,i32>#find
     (get_local $0)
     (get_local $1)
-    (block $~lib/internal/hash/hash<u16>|inlined.0 (result i32)
-     (br $~lib/internal/hash/hash<u16>|inlined.0
+    (block $~lib/internal/hash/hash<i16>|inlined.0 (result i32)
+     (br $~lib/internal/hash/hash<i16>|inlined.0
       (call $~lib/internal/hash/hash16
-       (i32.and
-        (get_local $1)
-        (i32.const 65535)
+       (i32.shr_s
+        (i32.shl
+         (get_local $1)
+         (i32.const 16)
+        )
+        (i32.const 16)
        )
       )
      )
@@ -4417,7 +4630,7 @@
    (i32.const 0)
   )
  )
- (func $~lib/map/Map<u16,i32>#rehash (; 43 ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/map/Map<i16,i32>#rehash (; 50 ;) (type $iiv) (param $0 i32) (param $1 i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
@@ -4460,7 +4673,7 @@
     (i32.const 0)
     (i32.mul
      (get_local $4)
-     (block $~lib/map/ENTRY_SIZE<u16,i32>|inlined.1 (result i32)
+     (block $~lib/map/ENTRY_SIZE<i16,i32>|inlined.1 (result i32)
       (i32.const 12)
      )
     )
@@ -4482,7 +4695,7 @@
      (i32.load offset=16
       (get_local $0)
      )
-     (block $~lib/map/ENTRY_SIZE<u16,i32>|inlined.2 (result i32)
+     (block $~lib/map/ENTRY_SIZE<i16,i32>|inlined.2 (result i32)
       (i32.const 12)
      )
     )
@@ -4521,7 +4734,7 @@
          )
          (i32.store16
           (get_local $10)
-          (i32.load16_u
+          (i32.load16_s
            (get_local $9)
           )
          )
@@ -4533,13 +4746,13 @@
          )
          (set_local $11
           (i32.and
-           (block $~lib/internal/hash/hash<u16>|inlined.2 (result i32)
+           (block $~lib/internal/hash/hash<i16>|inlined.2 (result i32)
             (set_local $11
-             (i32.load16_u
+             (i32.load16_s
               (get_local $9)
              )
             )
-            (br $~lib/internal/hash/hash<u16>|inlined.2
+            (br $~lib/internal/hash/hash<i16>|inlined.2
              (call $~lib/internal/hash/hash16
               (get_local $11)
              )
@@ -4570,7 +4783,7 @@
          (set_local $8
           (i32.add
            (get_local $8)
-           (block $~lib/map/ENTRY_SIZE<u16,i32>|inlined.3 (result i32)
+           (block $~lib/map/ENTRY_SIZE<i16,i32>|inlined.3 (result i32)
             (i32.const 12)
            )
           )
@@ -4580,7 +4793,7 @@
        (set_local $6
         (i32.add
          (get_local $6)
-         (block $~lib/map/ENTRY_SIZE<u16,i32>|inlined.4 (result i32)
+         (block $~lib/map/ENTRY_SIZE<i16,i32>|inlined.4 (result i32)
           (i32.const 12)
          )
         )
@@ -4614,25 +4827,28 @@
    )
   )
  )
- (func $~lib/map/Map<u16,i32>#set (; 44 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+ (func $~lib/map/Map<i16,i32>#set (; 51 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
   (local $6 i32)
   (set_local $3
-   (block $~lib/internal/hash/hash<u16>|inlined.1 (result i32)
-    (br $~lib/internal/hash/hash<u16>|inlined.1
+   (block $~lib/internal/hash/hash<i16>|inlined.1 (result i32)
+    (br $~lib/internal/hash/hash<i16>|inlined.1
      (call $~lib/internal/hash/hash16
-      (i32.and
-       (get_local $1)
-       (i32.const 65535)
+      (i32.shr_s
+       (i32.shl
+        (get_local $1)
+        (i32.const 16)
+       )
+       (i32.const 16)
       )
      )
     )
    )
   )
   (set_local $4
-   (call $~lib/map/Map<u16,i32>#find
+   (call $~lib/map/Map<i16,i32>#find
     (get_local $0)
     (get_local $1)
     (get_local $3)
@@ -4654,7 +4870,7 @@
        (get_local $0)
       )
      )
-     (call $~lib/map/Map<u16,i32>#rehash
+     (call $~lib/map/Map<i16,i32>#rehash
       (get_local $0)
       (if (result i32)
        (i32.lt_s
@@ -4714,7 +4930,7 @@
         )
         (get_local $6)
        )
-       (block $~lib/map/ENTRY_SIZE<u16,i32>|inlined.5 (result i32)
+       (block $~lib/map/ENTRY_SIZE<i16,i32>|inlined.5 (result i32)
         (i32.const 12)
        )
       )
@@ -4766,18 +4982,21 @@
    )
   )
  )
- (func $~lib/map/Map<u16,i32>#get (; 45 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/map/Map<i16,i32>#get (; 52 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (set_local $2
-   (call $~lib/map/Map<u16,i32>#find
+   (call $~lib/map/Map<i16,i32>#find
     (get_local $0)
     (get_local $1)
-    (block $~lib/internal/hash/hash<u16>|inlined.3 (result i32)
-     (br $~lib/internal/hash/hash<u16>|inlined.3
+    (block $~lib/internal/hash/hash<i16>|inlined.3 (result i32)
+     (br $~lib/internal/hash/hash<i16>|inlined.3
       (call $~lib/internal/hash/hash16
-       (i32.and
-        (get_local $1)
-        (i32.const 65535)
+       (i32.shr_s
+        (i32.shl
+         (get_local $1)
+         (i32.const 16)
+        )
+        (i32.const 16)
        )
       )
      )
@@ -4792,26 +5011,29 @@
    (unreachable)
   )
  )
- (func $~lib/map/Map<u16,i32>#get:size (; 46 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/map/Map<i16,i32>#get:size (; 53 ;) (type $ii) (param $0 i32) (result i32)
   (i32.load offset=20
    (get_local $0)
   )
  )
- (func $~lib/map/Map<u16,i32>#delete (; 47 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/map/Map<i16,i32>#delete (; 54 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
   (set_local $2
-   (call $~lib/map/Map<u16,i32>#find
+   (call $~lib/map/Map<i16,i32>#find
     (get_local $0)
     (get_local $1)
-    (block $~lib/internal/hash/hash<u16>|inlined.4 (result i32)
-     (br $~lib/internal/hash/hash<u16>|inlined.4
+    (block $~lib/internal/hash/hash<i16>|inlined.4 (result i32)
+     (br $~lib/internal/hash/hash<i16>|inlined.4
       (call $~lib/internal/hash/hash16
-       (i32.and
-        (get_local $1)
-        (i32.const 65535)
+       (i32.shr_s
+        (i32.shl
+         (get_local $1)
+         (i32.const 16)
+        )
+        (i32.const 16)
        )
       )
      )
@@ -4893,2858 +5115,3118 @@
     )
     (get_local $4)
    )
-   (call $~lib/map/Map<u16,i32>#rehash
+   (call $~lib/map/Map<i16,i32>#rehash
     (get_local $0)
     (get_local $3)
    )
   )
   (i32.const 1)
  )
- (func $std/map/test<u16,i32> (; 48 ;) (type $v)
-  (local $0 i32)
+ (func $~lib/map/Map<i16,i32>#keys (; 55 ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
-  (set_local $0
-   (call $~lib/map/Map<u16,i32>#constructor
-    (i32.const 0)
-   )
-  )
-  (block $break|0
-   (set_local $1
-    (i32.const 0)
-   )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (i32.lt_u
-       (get_local $1)
-       (i32.const 100)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<u16,i32>#has
-         (get_local $0)
-         (get_local $1)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
         )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 8)
         (i32.const 4)
        )
-       (unreachable)
-      )
-     )
-     (call $~lib/map/Map<u16,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 10)
-       (i32.and
-        (get_local $1)
-        (i32.const 65535)
-       )
+       (i32.const 37)
       )
+      (get_local $2)
      )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<u16,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 10)
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<i16>#__iterator (; 56 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/map/Map<i16,i32>#values (; 57 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
         (i32.const 4)
        )
-       (unreachable)
+       (i32.const 39)
       )
+      (get_local $2)
      )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<u16,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 10)
-         (i32.and
-          (get_local $1)
-          (i32.const 65535)
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/map/Map<i16,i32>#entries (; 58 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
          )
         )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 11)
         (i32.const 4)
        )
-       (unreachable)
+       (i32.const 44)
       )
+      (get_local $2)
      )
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
-     )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
     )
-    (br $repeat|0)
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<u16,i32>#get:size
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<KeyValue<i16,i32>>#__iterator (; 59 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/map/Map<i16,i32>#__iterator (; 60 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/map/Map<i16,i32>#entries
+   (get_local $0)
+  )
+ )
+ (func $std/map/test<i16,i32>~anonymous|2 (; 61 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (block
+   (if
+    (i32.eqz
+     (i32.eq
       (get_local $0)
+      (i32.add
+       (i32.const 20)
+       (i32.shr_s
+        (i32.shl
+         (get_local $1)
+         (i32.const 16)
+        )
+        (i32.const 16)
+       )
+      )
      )
-     (i32.const 100)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 68)
+      (i32.const 4)
+     )
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 13)
-     (i32.const 2)
+   (i32.store offset=4
+    (get_local $3)
+    (i32.add
+     (i32.load offset=4
+      (get_local $3)
+     )
+     (i32.const 1)
     )
-    (unreachable)
    )
   )
-  (block $break|1
-   (set_local $1
+ )
+ (func $~lib/map/Map<i16,i32>#forEach (; 62 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (set_local $2
     (i32.const 0)
    )
-   (loop $repeat|1
-    (br_if $break|1
+   (loop $repeat|0
+    (br_if $break|0
      (i32.eqz
-      (i32.lt_u
-       (get_local $1)
-       (i32.const 100)
+      (i32.lt_s
+       (get_local $2)
+       (i32.load offset=16
+        (get_local $0)
+       )
       )
      )
     )
     (block
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<u16,i32>#has
-        (get_local $0)
-        (get_local $1)
+     (set_local $3
+      (i32.add
+       (i32.add
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 17)
-        (i32.const 4)
+       (i32.mul
+        (get_local $2)
+        (block $~lib/map/ENTRY_SIZE<i16,i32>|inlined.6 (result i32)
+         (i32.const 12)
+        )
        )
-       (unreachable)
       )
      )
      (if
       (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<u16,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 10)
-         (i32.and
-          (get_local $1)
-          (i32.const 65535)
-         )
+       (i32.and
+        (i32.load offset=8
+         (get_local $3)
         )
+        (get_global $~lib/map/EMPTY)
        )
       )
       (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 18)
-        (i32.const 4)
+       (set_global $~argc
+        (i32.const 3)
        )
-       (unreachable)
-      )
-     )
-     (call $~lib/map/Map<u16,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 20)
-       (i32.and
-        (get_local $1)
-        (i32.const 65535)
-       )
-      )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<u16,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 20)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<u16,i32>#get
-         (get_local $0)
-         (get_local $1)
+       (call_indirect (type $iiiv)
+        (i32.load offset=4
+         (get_local $3)
         )
-        (i32.add
-         (i32.const 20)
-         (i32.and
+        (i32.load16_s
+         (get_local $3)
+        )
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
           (get_local $1)
-          (i32.const 65535)
+         )
+         (i32.load
+          (get_global $~env)
          )
         )
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 21)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
      )
     )
-    (set_local $1
+    (set_local $2
      (i32.add
-      (get_local $1)
+      (get_local $2)
       (i32.const 1)
      )
     )
-    (br $repeat|1)
+    (br $repeat|0)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<u16,i32>#get:size
-      (get_local $0)
-     )
-     (i32.const 100)
-    )
+ )
+ (func $std/map/test<i16,i32> (; 63 ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $2
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
    )
-   (block
-    (call $~lib/env/abort
+  )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block
+   (set_local $0
+    (call $~lib/map/Map<i16,i32>#constructor
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 23)
-     (i32.const 2)
     )
-    (unreachable)
    )
-  )
-  (block $break|2
-   (set_local $1
-    (i32.const 0)
-   )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (i32.lt_u
-       (get_local $1)
-       (i32.const 50)
-      )
-     )
+   (block $break|0
+    (set_local $1
+     (i32.const 0)
     )
-    (block
-     (if
+    (loop $repeat|0
+     (br_if $break|0
       (i32.eqz
-       (call $~lib/map/Map<u16,i32>#has
-        (get_local $0)
+       (i32.lt_s
         (get_local $1)
+        (i32.const 100)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 27)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
      )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<u16,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 20)
-         (i32.and
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<i16,i32>#has
+          (get_local $0)
           (get_local $1)
-          (i32.const 65535)
          )
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 28)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 8)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
-     )
-     (drop
-      (call $~lib/map/Map<u16,i32>#delete
+      (call $~lib/map/Map<i16,i32>#set
        (get_local $0)
        (get_local $1)
+       (i32.add
+        (i32.const 10)
+        (i32.shr_s
+         (i32.shl
+          (get_local $1)
+          (i32.const 16)
+         )
+         (i32.const 16)
+        )
+       )
       )
-     )
-     (if
-      (i32.eqz
+      (if
        (i32.eqz
-        (call $~lib/map/Map<u16,i32>#has
+        (call $~lib/map/Map<i16,i32>#has
          (get_local $0)
          (get_local $1)
         )
        )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 10)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 30)
-        (i32.const 4)
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<i16,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 10)
+          (i32.shr_s
+           (i32.shl
+            (get_local $1)
+            (i32.const 16)
+           )
+           (i32.const 16)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 11)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-    )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
+     (br $repeat|0)
     )
-    (br $repeat|2)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<u16,i32>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<i16,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
      )
-     (i32.const 50)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 13)
+      (i32.const 2)
+     )
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
+   (block $break|1
+    (set_local $1
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 32)
-     (i32.const 2)
     )
-    (unreachable)
-   )
-  )
-  (block $break|3
-   (set_local $1
-    (i32.const 0)
-   )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (i32.lt_u
-       (get_local $1)
-       (i32.const 50)
+    (loop $repeat|1
+     (br_if $break|1
+      (i32.eqz
+       (i32.lt_s
+        (get_local $1)
+        (i32.const 100)
+       )
       )
      )
-    )
-    (block
-     (if
-      (i32.eqz
+     (block
+      (if
        (i32.eqz
-        (call $~lib/map/Map<u16,i32>#has
+        (call $~lib/map/Map<i16,i32>#has
          (get_local $0)
          (get_local $1)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 36)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/map/Map<u16,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 10)
-       (i32.and
-        (get_local $1)
-        (i32.const 65535)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 17)
+         (i32.const 4)
+        )
+        (unreachable)
        )
       )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<u16,i32>#has
-        (get_local $0)
-        (get_local $1)
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<i16,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 10)
+          (i32.shr_s
+           (i32.shl
+            (get_local $1)
+            (i32.const 16)
+           )
+           (i32.const 16)
+          )
+         )
+        )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 38)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 18)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
-     )
-     (drop
-      (call $~lib/map/Map<u16,i32>#delete
+      (call $~lib/map/Map<i16,i32>#set
        (get_local $0)
        (get_local $1)
+       (i32.add
+        (i32.const 20)
+        (i32.shr_s
+         (i32.shl
+          (get_local $1)
+          (i32.const 16)
+         )
+         (i32.const 16)
+        )
+       )
       )
-     )
-     (if
-      (i32.eqz
+      (if
        (i32.eqz
-        (call $~lib/map/Map<u16,i32>#has
+        (call $~lib/map/Map<i16,i32>#has
          (get_local $0)
          (get_local $1)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 40)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 20)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<i16,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.shr_s
+           (i32.shl
+            (get_local $1)
+            (i32.const 16)
+           )
+           (i32.const 16)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 21)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-    )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
-     )
-    )
-    (br $repeat|3)
-   )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<u16,i32>#get:size
-      (get_local $0)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
-     (i32.const 50)
+     (br $repeat|1)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<i16,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
     )
-    (unreachable)
-   )
-  )
-  (call $~lib/map/Map<u16,i32>#clear
-   (get_local $0)
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<u16,i32>#get:size
-      (get_local $0)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 23)
+      (i32.const 2)
      )
-     (i32.const 0)
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
+   (block $break|2
+    (set_local $1
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 46)
-     (i32.const 2)
     )
-    (unreachable)
-   )
-  )
- )
- (func $~lib/map/Map<i32,i32>#clear (; 49 ;) (type $iv) (param $0 i32)
-  (i32.store
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 16)
-    (i32.const 0)
-   )
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (i32.sub
-    (get_global $~lib/map/INITIAL_CAPACITY)
-    (i32.const 1)
-   )
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 48)
-    (i32.const 1)
-   )
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_global $~lib/map/INITIAL_CAPACITY)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.const 0)
-  )
- )
- (func $~lib/map/Map<i32,i32>#constructor (; 50 ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (call $~lib/map/Map<i32,i32>#clear
-   (tee_local $0
-    (if (result i32)
-     (get_local $0)
-     (get_local $0)
-     (tee_local $0
-      (block (result i32)
-       (set_local $1
-        (call $~lib/memory/memory.allocate
-         (i32.const 24)
+    (loop $repeat|2
+     (br_if $break|2
+      (i32.eqz
+       (i32.lt_s
+        (get_local $1)
+        (i32.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<i16,i32>#has
+         (get_local $0)
+         (get_local $1)
         )
        )
-       (i32.store
-        (get_local $1)
-        (i32.const 0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 27)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (i32.store offset=4
-        (get_local $1)
-        (i32.const 0)
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<i16,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.shr_s
+           (i32.shl
+            (get_local $1)
+            (i32.const 16)
+           )
+           (i32.const 16)
+          )
+         )
+        )
        )
-       (i32.store offset=8
-        (get_local $1)
-        (i32.const 0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 28)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (i32.store offset=12
+      )
+      (drop
+       (call $~lib/map/Map<i16,i32>#delete
+        (get_local $0)
         (get_local $1)
-        (i32.const 0)
        )
-       (i32.store offset=16
-        (get_local $1)
-        (i32.const 0)
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<i16,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
        )
-       (i32.store offset=20
-        (get_local $1)
-        (i32.const 0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 30)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (get_local $1)
       )
      )
-    )
-   )
-  )
-  (get_local $0)
- )
- (func $~lib/internal/hash/hash32 (; 51 ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (set_local $1
-   (get_global $~lib/internal/hash/FNV_OFFSET)
-  )
-  (set_local $1
-   (i32.mul
-    (i32.xor
-     (get_local $1)
-     (i32.and
-      (get_local $0)
-      (i32.const 255)
-     )
-    )
-    (get_global $~lib/internal/hash/FNV_PRIME)
-   )
-  )
-  (set_local $1
-   (i32.mul
-    (i32.xor
-     (get_local $1)
-     (i32.and
-      (i32.shr_u
-       (get_local $0)
-       (i32.const 8)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
       )
-      (i32.const 255)
      )
+     (br $repeat|2)
     )
-    (get_global $~lib/internal/hash/FNV_PRIME)
    )
-  )
-  (set_local $1
-   (i32.mul
-    (i32.xor
-     (get_local $1)
-     (i32.and
-      (i32.shr_u
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<i16,i32>#get:size
        (get_local $0)
-       (i32.const 16)
       )
-      (i32.const 255)
+      (i32.const 50)
      )
     )
-    (get_global $~lib/internal/hash/FNV_PRIME)
-   )
-  )
-  (set_local $1
-   (i32.mul
-    (i32.xor
-     (get_local $1)
-     (i32.shr_u
-      (get_local $0)
-      (i32.const 24)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 32)
+      (i32.const 2)
      )
+     (unreachable)
     )
-    (get_global $~lib/internal/hash/FNV_PRIME)
    )
-  )
-  (get_local $1)
- )
- (func $~lib/map/Map<i32,i32>#find (; 52 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
-  (local $3 i32)
-  (local $4 i32)
-  (set_local $3
-   (i32.load offset=8
-    (i32.add
-     (i32.load
-      (get_local $0)
-     )
-     (i32.mul
-      (i32.and
-       (get_local $2)
-       (i32.load offset=4
-        (get_local $0)
+   (block $break|3
+    (set_local $1
+     (i32.const 0)
+    )
+    (loop $repeat|3
+     (br_if $break|3
+      (i32.eqz
+       (i32.lt_s
+        (get_local $1)
+        (i32.const 50)
        )
       )
-      (get_global $~lib/map/BUCKET_SIZE)
      )
-    )
-   )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (get_local $3)
      (block
-      (block
-       (if
-        (if (result i32)
-         (tee_local $4
-          (i32.eqz
-           (i32.and
-            (i32.load offset=8
-             (get_local $3)
-            )
-            (get_global $~lib/map/EMPTY)
-           )
-          )
-         )
-         (i32.eq
-          (i32.load
-           (get_local $3)
-          )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<i16,i32>#has
+          (get_local $0)
           (get_local $1)
          )
-         (get_local $4)
         )
-        (return
-         (get_local $3)
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 36)
+         (i32.const 4)
         )
+        (unreachable)
        )
-       (set_local $3
-        (i32.and
-         (i32.load offset=8
-          (get_local $3)
+      )
+      (call $~lib/map/Map<i16,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 10)
+        (i32.shr_s
+         (i32.shl
+          (get_local $1)
+          (i32.const 16)
          )
-         (i32.xor
-          (get_global $~lib/map/EMPTY)
-          (i32.const -1)
+         (i32.const 16)
+        )
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<i16,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 38)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/map/Map<i16,i32>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<i16,i32>#has
+          (get_local $0)
+          (get_local $1)
          )
         )
        )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 40)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
-      (br $continue|0)
      )
-    )
-   )
-  )
-  (i32.const 0)
- )
- (func $~lib/map/Map<i32,i32>#has (; 53 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.ne
-   (call $~lib/map/Map<i32,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<i32>|inlined.0 (result i32)
-     (br $~lib/internal/hash/hash<i32>|inlined.0
-      (call $~lib/internal/hash/hash32
+     (set_local $1
+      (i32.add
        (get_local $1)
+       (i32.const 1)
       )
      )
+     (br $repeat|3)
     )
    )
-   (i32.const 0)
-  )
- )
- (func $~lib/map/Map<i32,i32>#rehash (; 54 ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (local $9 i32)
-  (local $10 i32)
-  (local $11 i32)
-  (local $12 i32)
-  (set_local $2
-   (i32.add
-    (get_local $1)
-    (i32.const 1)
-   )
-  )
-  (set_local $3
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $2)
-     (get_global $~lib/map/BUCKET_SIZE)
-    )
-    (i32.const 0)
-   )
-  )
-  (set_local $4
-   (i32.trunc_s/f64
-    (f64.mul
-     (f64.convert_s/i32
-      (get_local $2)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<i16,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
      )
-     (get_global $~lib/map/FILL_FACTOR)
     )
-   )
-  )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $4)
-     (block $~lib/map/ENTRY_SIZE<i32,i32>|inlined.1 (result i32)
-      (i32.const 12)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 42)
+      (i32.const 2)
      )
+     (unreachable)
     )
-    (i32.const 1)
    )
-  )
-  (set_local $6
-   (i32.add
-    (i32.load offset=8
-     (get_local $0)
-    )
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   (i32.store offset=4
+    (get_local $2)
+    (i32.const 0)
    )
-  )
-  (set_local $7
-   (i32.add
-    (get_local $6)
-    (i32.mul
-     (i32.load offset=16
-      (get_local $0)
-     )
-     (block $~lib/map/ENTRY_SIZE<i32,i32>|inlined.2 (result i32)
-      (i32.const 12)
+   (block $break|4
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<i16>#__iterator
+      (call $~lib/map/Map<i16,i32>#keys
+       (get_local $0)
+      )
      )
     )
-   )
-  )
-  (set_local $8
-   (i32.add
-    (get_local $5)
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
-   )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (i32.ne
-      (get_local $6)
-      (get_local $7)
+    (loop $repeat|4
+     (br_if $break|4
+      (call $~lib/iterator/Iterator<i16>#get:done|virtual
+       (get_local $1)
+      )
      )
      (block
       (block
-       (set_local $9
-        (get_local $6)
-       )
-       (if
-        (i32.eqz
-         (i32.and
-          (i32.load offset=8
-           (get_local $9)
-          )
-          (get_global $~lib/map/EMPTY)
-         )
+       (set_local $5
+        (call $~lib/memory/memory.allocate
+         (i32.const 6)
         )
-        (block
-         (set_local $10
-          (get_local $8)
-         )
-         (i32.store
-          (get_local $10)
-          (i32.load
-           (get_local $9)
-          )
-         )
-         (i32.store offset=4
-          (get_local $10)
-          (i32.load offset=4
-           (get_local $9)
-          )
-         )
-         (set_local $11
-          (i32.and
-           (block $~lib/internal/hash/hash<i32>|inlined.2 (result i32)
-            (set_local $11
-             (i32.load
-              (get_local $9)
-             )
-            )
-            (br $~lib/internal/hash/hash<i32>|inlined.2
-             (call $~lib/internal/hash/hash32
-              (get_local $11)
-             )
-            )
+       )
+       (i32.store
+        (get_local $5)
+        (get_local $2)
+       )
+       (i32.store16 offset=4
+        (get_local $5)
+        (i32.const 0)
+       )
+      )
+      (i32.store16 offset=4
+       (get_local $5)
+       (call $~lib/iterator/Iterator<i16>#next|virtual
+        (get_local $1)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $6
+          (i32.ge_s
+           (i32.load16_s offset=4
+            (get_local $5)
            )
-           (get_local $1)
+           (i32.const 50)
           )
          )
-         (set_local $12
-          (i32.add
-           (get_local $3)
-           (i32.mul
-            (get_local $11)
-            (get_global $~lib/map/BUCKET_SIZE)
-           )
+         (i32.lt_s
+          (i32.load16_s offset=4
+           (get_local $5)
           )
+          (i32.const 100)
          )
-         (i32.store offset=8
-          (get_local $10)
-          (i32.load offset=8
-           (get_local $12)
+         (get_local $6)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 47)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<i16,i32>#get
+          (get_local $0)
+          (i32.load16_s offset=4
+           (get_local $5)
           )
          )
-         (i32.store offset=8
-          (get_local $12)
-          (get_local $8)
-         )
-         (set_local $8
-          (i32.add
-           (get_local $8)
-           (block $~lib/map/ENTRY_SIZE<i32,i32>|inlined.3 (result i32)
-            (i32.const 12)
-           )
+         (i32.add
+          (i32.const 20)
+          (i32.load16_s offset=4
+           (get_local $5)
           )
          )
         )
        )
-       (set_local $6
-        (i32.add
-         (get_local $6)
-         (block $~lib/map/ENTRY_SIZE<i32,i32>|inlined.4 (result i32)
-          (i32.const 12)
-         )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 48)
+         (i32.const 4)
         )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
       )
-      (br $continue|0)
      )
+     (br $repeat|4)
     )
    )
-  )
-  (i32.store
-   (get_local $0)
-   (get_local $3)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $4)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
-   )
-  )
- )
- (func $~lib/map/Map<i32,i32>#set (; 55 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (set_local $3
-   (block $~lib/internal/hash/hash<i32>|inlined.1 (result i32)
-    (br $~lib/internal/hash/hash<i32>|inlined.1
-     (call $~lib/internal/hash/hash32
-      (get_local $1)
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
      )
     )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 51)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
    )
-  )
-  (set_local $4
-   (call $~lib/map/Map<i32,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (get_local $3)
-   )
-  )
-  (if
-   (get_local $4)
-   (i32.store offset=4
-    (get_local $4)
-    (get_local $2)
-   )
-   (block
-    (if
-     (i32.eq
-      (i32.load offset=16
+   (block $break|5
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<i32>#__iterator
+      (call $~lib/map/Map<i16,i32>#values
        (get_local $0)
       )
-      (i32.load offset=12
-       (get_local $0)
+     )
+    )
+    (loop $repeat|5
+     (br_if $break|5
+      (call $~lib/iterator/Iterator<i32>#get:done|virtual
+       (get_local $1)
       )
      )
-     (call $~lib/map/Map<i32,i32>#rehash
-      (get_local $0)
-      (if (result i32)
-       (i32.lt_s
-        (i32.load offset=20
-         (get_local $0)
+     (block
+      (block
+       (set_local $8
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
         )
-        (i32.trunc_s/f64
-         (f64.mul
-          (f64.convert_s/i32
-           (i32.load offset=12
-            (get_local $0)
+       )
+       (i32.store
+        (get_local $8)
+        (get_local $2)
+       )
+       (i32.store offset=4
+        (get_local $8)
+        (i32.const 0)
+       )
+      )
+      (i32.store offset=4
+       (get_local $8)
+       (call $~lib/iterator/Iterator<i32>#next|virtual
+        (get_local $1)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $6
+          (i32.ge_s
+           (i32.load offset=4
+            (get_local $8)
            )
+           (i32.const 70)
           )
-          (get_global $~lib/map/FREE_FACTOR)
          )
+         (i32.lt_s
+          (i32.load offset=4
+           (get_local $8)
+          )
+          (i32.const 120)
+         )
+         (get_local $6)
         )
        )
-       (i32.load offset=4
-        (get_local $0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 53)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (i32.or
-        (i32.shl
-         (i32.load offset=4
-          (get_local $0)
-         )
-         (i32.const 1)
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
         )
         (i32.const 1)
        )
       )
      )
+     (br $repeat|5)
     )
-    (set_local $5
-     (i32.load offset=8
-      (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
      )
     )
-    (set_local $4
-     (i32.add
-      (i32.add
-       (get_local $5)
-       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 56)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|6
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<KeyValue<i16,i32>>#__iterator
+      (call $~lib/map/Map<i16,i32>#entries
+       (get_local $0)
       )
-      (i32.mul
-       (block (result i32)
-        (set_local $6
-         (i32.load offset=16
-          (get_local $0)
+     )
+    )
+    (loop $repeat|6
+     (br_if $break|6
+      (call $~lib/iterator/Iterator<KeyValue<i16,i32>>#get:done|virtual
+       (get_local $1)
+      )
+     )
+     (set_local $6
+      (call $~lib/iterator/Iterator<KeyValue<i16,i32>>#next|virtual
+       (get_local $1)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load offset=4
+          (get_local $6)
          )
-        )
-        (i32.store offset=16
-         (get_local $0)
          (i32.add
-          (get_local $6)
-          (i32.const 1)
+          (i32.const 20)
+          (i32.load16_s
+           (get_local $6)
+          )
          )
         )
-        (get_local $6)
        )
-       (block $~lib/map/ENTRY_SIZE<i32,i32>|inlined.5 (result i32)
-        (i32.const 12)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 58)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
       )
      )
+     (br $repeat|6)
     )
-    (i32.store
-     (get_local $4)
-     (get_local $1)
-    )
-    (i32.store offset=4
-     (get_local $4)
-     (get_local $2)
-    )
-    (i32.store offset=20
-     (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
       )
-      (i32.const 1)
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 61)
+      (i32.const 2)
      )
+     (unreachable)
     )
+   )
+   (block $break|7
     (set_local $6
-     (i32.add
-      (i32.load
-       (get_local $0)
+     (call $~lib/map/Map<i16,i32>#__iterator
+      (get_local $0)
+     )
+    )
+    (loop $repeat|7
+     (br_if $break|7
+      (call $~lib/iterator/Iterator<KeyValue<i16,i32>>#get:done|virtual
+       (get_local $6)
       )
-      (i32.mul
-       (i32.and
-        (get_local $3)
+     )
+     (set_local $1
+      (call $~lib/iterator/Iterator<KeyValue<i16,i32>>#next|virtual
+       (get_local $6)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load offset=4
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.load16_s
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 63)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
         (i32.load offset=4
-         (get_local $0)
+         (get_local $2)
         )
+        (i32.const 1)
        )
-       (get_global $~lib/map/BUCKET_SIZE)
       )
      )
+     (br $repeat|7)
     )
-    (i32.store offset=8
-     (get_local $4)
-     (i32.load offset=8
-      (get_local $6)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
      )
     )
-    (i32.store offset=8
-     (get_local $6)
-     (get_local $4)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 66)
+      (i32.const 2)
+     )
+     (unreachable)
     )
    )
-  )
- )
- (func $~lib/map/Map<i32,i32>#get (; 56 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (set_local $2
-   (call $~lib/map/Map<i32,i32>#find
+   (call $~lib/map/Map<i16,i32>#forEach
     (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<i32>|inlined.3 (result i32)
-     (br $~lib/internal/hash/hash<i32>|inlined.3
-      (call $~lib/internal/hash/hash32
-       (get_local $1)
+    (block (result i32)
+     (set_local $1
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
       )
      )
+     (i32.store
+      (get_local $1)
+      (i32.const 2)
+     )
+     (i32.store offset=4
+      (get_local $1)
+      (get_local $2)
+     )
+     (get_local $1)
     )
    )
-  )
-  (if (result i32)
-   (get_local $2)
-   (i32.load offset=4
-    (get_local $2)
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 71)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
    )
-   (unreachable)
-  )
- )
- (func $~lib/map/Map<i32,i32>#get:size (; 57 ;) (type $ii) (param $0 i32) (result i32)
-  (i32.load offset=20
-   (get_local $0)
-  )
- )
- (func $~lib/map/Map<i32,i32>#delete (; 58 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (set_local $2
-   (call $~lib/map/Map<i32,i32>#find
+   (call $~lib/map/Map<i16,i32>#clear
     (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<i32>|inlined.4 (result i32)
-     (br $~lib/internal/hash/hash<i32>|inlined.4
-      (call $~lib/internal/hash/hash32
-       (get_local $1)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<i16,i32>#get:size
+       (get_local $0)
       )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 75)
+      (i32.const 2)
      )
+     (unreachable)
     )
    )
   )
-  (if
-   (i32.eqz
-    (get_local $2)
-   )
-   (return
+ )
+ (func $~lib/map/Map<u16,i32>#clear (; 64 ;) (type $iv) (param $0 i32)
+  (i32.store
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 16)
     (i32.const 0)
    )
   )
-  (i32.store offset=8
-   (get_local $2)
-   (i32.or
-    (i32.load offset=8
-     (get_local $2)
-    )
-    (get_global $~lib/map/EMPTY)
-   )
-  )
-  (i32.store offset=20
+  (i32.store offset=4
    (get_local $0)
    (i32.sub
-    (i32.load offset=20
-     (get_local $0)
-    )
+    (get_global $~lib/map/INITIAL_CAPACITY)
     (i32.const 1)
    )
   )
-  (set_local $3
-   (i32.shr_u
-    (i32.load offset=4
-     (get_local $0)
-    )
+  (i32.store offset=8
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 48)
     (i32.const 1)
    )
   )
-  (if
-   (if (result i32)
-    (tee_local $4
-     (i32.ge_u
-      (i32.add
-       (get_local $3)
-       (i32.const 1)
-      )
-      (select
-       (tee_local $4
-        (get_global $~lib/map/INITIAL_CAPACITY)
-       )
-       (tee_local $5
-        (i32.load offset=20
-         (get_local $0)
-        )
-       )
-       (i32.gt_u
-        (get_local $4)
-        (get_local $5)
-       )
-      )
-     )
-    )
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $0)
-     )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $0)
-        )
-       )
-       (get_global $~lib/map/FREE_FACTOR)
-      )
-     )
-    )
-    (get_local $4)
-   )
-   (call $~lib/map/Map<i32,i32>#rehash
-    (get_local $0)
-    (get_local $3)
-   )
+  (i32.store offset=12
+   (get_local $0)
+   (get_global $~lib/map/INITIAL_CAPACITY)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.const 0)
   )
-  (i32.const 1)
  )
- (func $std/map/test<i32,i32> (; 59 ;) (type $v)
-  (local $0 i32)
+ (func $~lib/map/Map<u16,i32>#constructor (; 65 ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
-  (set_local $0
-   (call $~lib/map/Map<i32,i32>#constructor
-    (i32.const 0)
-   )
-  )
-  (block $break|0
-   (set_local $1
-    (i32.const 0)
-   )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 100)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<i32,i32>#has
-         (get_local $0)
-         (get_local $1)
+  (call $~lib/map/Map<u16,i32>#clear
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $1
+        (call $~lib/memory/memory.allocate
+         (i32.const 24)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
+       (i32.store
+        (get_local $1)
         (i32.const 0)
-        (i32.const 120)
-        (i32.const 8)
-        (i32.const 4)
        )
-       (unreachable)
-      )
-     )
-     (call $~lib/map/Map<i32,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 10)
-       (get_local $1)
-      )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<i32,i32>#has
-        (get_local $0)
+       (i32.store offset=4
         (get_local $1)
+        (i32.const 0)
        )
-      )
-      (block
-       (call $~lib/env/abort
+       (i32.store offset=8
+        (get_local $1)
         (i32.const 0)
-        (i32.const 120)
-        (i32.const 10)
-        (i32.const 4)
        )
-       (unreachable)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<i32,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 10)
-         (get_local $1)
-        )
+       (i32.store offset=12
+        (get_local $1)
+        (i32.const 0)
        )
-      )
-      (block
-       (call $~lib/env/abort
+       (i32.store offset=16
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=20
+        (get_local $1)
         (i32.const 0)
-        (i32.const 120)
-        (i32.const 11)
-        (i32.const 4)
        )
-       (unreachable)
+       (get_local $1)
       )
      )
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
-     )
-    )
-    (br $repeat|0)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<i32,i32>#get:size
+  (get_local $0)
+ )
+ (func $~lib/map/Map<u16,i32>#find (; 66 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load offset=8
+    (i32.add
+     (i32.load
       (get_local $0)
      )
-     (i32.const 100)
+     (i32.mul
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (get_global $~lib/map/BUCKET_SIZE)
+     )
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 13)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
   )
-  (block $break|1
-   (set_local $1
-    (i32.const 0)
-   )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 100)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<i32,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (get_local $3)
+     (block
       (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 17)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<i32,i32>#get
-         (get_local $0)
-         (get_local $1)
+       (if
+        (if (result i32)
+         (tee_local $4
+          (i32.eqz
+           (i32.and
+            (i32.load offset=8
+             (get_local $3)
+            )
+            (get_global $~lib/map/EMPTY)
+           )
+          )
+         )
+         (i32.eq
+          (i32.load16_u
+           (get_local $3)
+          )
+          (i32.and
+           (get_local $1)
+           (i32.const 65535)
+          )
+         )
+         (get_local $4)
         )
-        (i32.add
-         (i32.const 10)
-         (get_local $1)
+        (return
+         (get_local $3)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 18)
-        (i32.const 4)
+       (set_local $3
+        (i32.and
+         (i32.load offset=8
+          (get_local $3)
+         )
+         (i32.xor
+          (get_global $~lib/map/EMPTY)
+          (i32.const -1)
+         )
+        )
        )
-       (unreachable)
-      )
-     )
-     (call $~lib/map/Map<i32,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 20)
-       (get_local $1)
       )
+      (br $continue|0)
      )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<i32,i32>#has
-        (get_local $0)
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/map/Map<u16,i32>#has (; 67 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.ne
+   (call $~lib/map/Map<u16,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<u16>|inlined.0 (result i32)
+     (br $~lib/internal/hash/hash<u16>|inlined.0
+      (call $~lib/internal/hash/hash16
+       (i32.and
         (get_local $1)
+        (i32.const 65535)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 20)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<i32,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 20)
-         (get_local $1)
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 21)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
      )
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
-     )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/map/Map<u16,i32>#rehash (; 68 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (set_local $2
+   (i32.add
+    (get_local $1)
+    (i32.const 1)
+   )
+  )
+  (set_local $3
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $2)
+     (get_global $~lib/map/BUCKET_SIZE)
     )
-    (br $repeat|1)
+    (i32.const 0)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<i32,i32>#get:size
-      (get_local $0)
+  (set_local $4
+   (i32.trunc_s/f64
+    (f64.mul
+     (f64.convert_s/i32
+      (get_local $2)
      )
-     (i32.const 100)
+     (get_global $~lib/map/FILL_FACTOR)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 23)
-     (i32.const 2)
+  )
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $4)
+     (block $~lib/map/ENTRY_SIZE<u16,i32>|inlined.1 (result i32)
+      (i32.const 12)
+     )
     )
-    (unreachable)
+    (i32.const 1)
    )
   )
-  (block $break|2
-   (set_local $1
-    (i32.const 0)
+  (set_local $6
+   (i32.add
+    (i32.load offset=8
+     (get_local $0)
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
    )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 50)
-      )
+  )
+  (set_local $7
+   (i32.add
+    (get_local $6)
+    (i32.mul
+     (i32.load offset=16
+      (get_local $0)
+     )
+     (block $~lib/map/ENTRY_SIZE<u16,i32>|inlined.2 (result i32)
+      (i32.const 12)
      )
     )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<i32,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 27)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
+   )
+  )
+  (set_local $8
+   (i32.add
+    (get_local $5)
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.ne
+      (get_local $6)
+      (get_local $7)
      )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<i32,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 20)
-         (get_local $1)
-        )
-       )
-      )
+     (block
       (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 28)
-        (i32.const 4)
+       (set_local $9
+        (get_local $6)
        )
-       (unreachable)
-      )
-     )
-     (drop
-      (call $~lib/map/Map<i32,i32>#delete
-       (get_local $0)
-       (get_local $1)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<i32,i32>#has
-         (get_local $0)
-         (get_local $1)
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $9)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (block
+         (set_local $10
+          (get_local $8)
+         )
+         (i32.store16
+          (get_local $10)
+          (i32.load16_u
+           (get_local $9)
+          )
+         )
+         (i32.store offset=4
+          (get_local $10)
+          (i32.load offset=4
+           (get_local $9)
+          )
+         )
+         (set_local $11
+          (i32.and
+           (block $~lib/internal/hash/hash<u16>|inlined.2 (result i32)
+            (set_local $11
+             (i32.load16_u
+              (get_local $9)
+             )
+            )
+            (br $~lib/internal/hash/hash<u16>|inlined.2
+             (call $~lib/internal/hash/hash16
+              (get_local $11)
+             )
+            )
+           )
+           (get_local $1)
+          )
+         )
+         (set_local $12
+          (i32.add
+           (get_local $3)
+           (i32.mul
+            (get_local $11)
+            (get_global $~lib/map/BUCKET_SIZE)
+           )
+          )
+         )
+         (i32.store offset=8
+          (get_local $10)
+          (i32.load offset=8
+           (get_local $12)
+          )
+         )
+         (i32.store offset=8
+          (get_local $12)
+          (get_local $8)
+         )
+         (set_local $8
+          (i32.add
+           (get_local $8)
+           (block $~lib/map/ENTRY_SIZE<u16,i32>|inlined.3 (result i32)
+            (i32.const 12)
+           )
+          )
+         )
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 30)
-        (i32.const 4)
+       (set_local $6
+        (i32.add
+         (get_local $6)
+         (block $~lib/map/ENTRY_SIZE<u16,i32>|inlined.4 (result i32)
+          (i32.const 12)
+         )
+        )
        )
-       (unreachable)
       )
+      (br $continue|0)
      )
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
-     )
-    )
-    (br $repeat|2)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<i32,i32>#get:size
-      (get_local $0)
+  (i32.store
+   (get_local $0)
+   (get_local $3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/Map<u16,i32>#set (; 69 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $3
+   (block $~lib/internal/hash/hash<u16>|inlined.1 (result i32)
+    (br $~lib/internal/hash/hash<u16>|inlined.1
+     (call $~lib/internal/hash/hash16
+      (i32.and
+       (get_local $1)
+       (i32.const 65535)
+      )
      )
-     (i32.const 50)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 32)
-     (i32.const 2)
-    )
-    (unreachable)
+  )
+  (set_local $4
+   (call $~lib/map/Map<u16,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (get_local $3)
    )
   )
-  (block $break|3
-   (set_local $1
-    (i32.const 0)
+  (if
+   (get_local $4)
+   (i32.store offset=4
+    (get_local $4)
+    (get_local $2)
    )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 50)
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
       )
      )
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<i32,i32>#has
+     (call $~lib/map/Map<u16,i32>#rehash
+      (get_local $0)
+      (if (result i32)
+       (i32.lt_s
+        (i32.load offset=20
          (get_local $0)
-         (get_local $1)
+        )
+        (i32.trunc_s/f64
+         (f64.mul
+          (f64.convert_s/i32
+           (i32.load offset=12
+            (get_local $0)
+           )
+          )
+          (get_global $~lib/map/FREE_FACTOR)
+         )
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 36)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/map/Map<i32,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 10)
-       (get_local $1)
-      )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<i32,i32>#has
+       (i32.load offset=4
         (get_local $0)
-        (get_local $1)
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 38)
-        (i32.const 4)
+       (i32.or
+        (i32.shl
+         (i32.load offset=4
+          (get_local $0)
+         )
+         (i32.const 1)
+        )
+        (i32.const 1)
        )
-       (unreachable)
       )
      )
-     (drop
-      (call $~lib/map/Map<i32,i32>#delete
-       (get_local $0)
-       (get_local $1)
-      )
+    )
+    (set_local $5
+     (i32.load offset=8
+      (get_local $0)
      )
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<i32,i32>#has
+    )
+    (set_local $4
+     (i32.add
+      (i32.add
+       (get_local $5)
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+      (i32.mul
+       (block (result i32)
+        (set_local $6
+         (i32.load offset=16
+          (get_local $0)
+         )
+        )
+        (i32.store offset=16
          (get_local $0)
-         (get_local $1)
+         (i32.add
+          (get_local $6)
+          (i32.const 1)
+         )
         )
+        (get_local $6)
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 40)
-        (i32.const 4)
+       (block $~lib/map/ENTRY_SIZE<u16,i32>|inlined.5 (result i32)
+        (i32.const 12)
        )
-       (unreachable)
       )
      )
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
-     )
-    )
-    (br $repeat|3)
+    (i32.store16
+     (get_local $4)
+     (get_local $1)
+    )
+    (i32.store offset=4
+     (get_local $4)
+     (get_local $2)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $6
+     (i32.add
+      (i32.load
+       (get_local $0)
+      )
+      (i32.mul
+       (i32.and
+        (get_local $3)
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (get_global $~lib/map/BUCKET_SIZE)
+      )
+     )
+    )
+    (i32.store offset=8
+     (get_local $4)
+     (i32.load offset=8
+      (get_local $6)
+     )
+    )
+    (i32.store offset=8
+     (get_local $6)
+     (get_local $4)
+    )
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<i32,i32>#get:size
-      (get_local $0)
+ )
+ (func $~lib/map/Map<u16,i32>#get (; 70 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (call $~lib/map/Map<u16,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<u16>|inlined.3 (result i32)
+     (br $~lib/internal/hash/hash<u16>|inlined.3
+      (call $~lib/internal/hash/hash16
+       (i32.and
+        (get_local $1)
+        (i32.const 65535)
+       )
+      )
      )
-     (i32.const 50)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
-    )
-    (unreachable)
+  )
+  (if (result i32)
+   (get_local $2)
+   (i32.load offset=4
+    (get_local $2)
    )
+   (unreachable)
   )
-  (call $~lib/map/Map<i32,i32>#clear
+ )
+ (func $~lib/map/Map<u16,i32>#get:size (; 71 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=20
    (get_local $0)
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<i32,i32>#get:size
-      (get_local $0)
+ )
+ (func $~lib/map/Map<u16,i32>#delete (; 72 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (call $~lib/map/Map<u16,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<u16>|inlined.4 (result i32)
+     (br $~lib/internal/hash/hash<u16>|inlined.4
+      (call $~lib/internal/hash/hash16
+       (i32.and
+        (get_local $1)
+        (i32.const 65535)
+       )
+      )
      )
-     (i32.const 0)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 46)
-     (i32.const 2)
     )
-    (unreachable)
    )
   )
- )
- (func $~lib/map/Map<u32,i32>#clear (; 60 ;) (type $iv) (param $0 i32)
-  (i32.store
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 16)
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return
     (i32.const 0)
    )
   )
-  (i32.store offset=4
+  (i32.store offset=8
+   (get_local $2)
+   (i32.or
+    (i32.load offset=8
+     (get_local $2)
+    )
+    (get_global $~lib/map/EMPTY)
+   )
+  )
+  (i32.store offset=20
    (get_local $0)
    (i32.sub
-    (get_global $~lib/map/INITIAL_CAPACITY)
+    (i32.load offset=20
+     (get_local $0)
+    )
     (i32.const 1)
    )
   )
-  (i32.store offset=8
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 48)
+  (set_local $3
+   (i32.shr_u
+    (i32.load offset=4
+     (get_local $0)
+    )
     (i32.const 1)
    )
   )
-  (i32.store offset=12
-   (get_local $0)
-   (get_global $~lib/map/INITIAL_CAPACITY)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.const 0)
-  )
- )
- (func $~lib/map/Map<u32,i32>#constructor (; 61 ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (call $~lib/map/Map<u32,i32>#clear
-   (tee_local $0
-    (if (result i32)
-     (get_local $0)
-     (get_local $0)
-     (tee_local $0
-      (block (result i32)
-       (set_local $1
-        (call $~lib/memory/memory.allocate
-         (i32.const 24)
-        )
-       )
-       (i32.store
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=4
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=8
-        (get_local $1)
-        (i32.const 0)
+  (if
+   (if (result i32)
+    (tee_local $4
+     (i32.ge_u
+      (i32.add
+       (get_local $3)
+       (i32.const 1)
+      )
+      (select
+       (tee_local $4
+        (get_global $~lib/map/INITIAL_CAPACITY)
        )
-       (i32.store offset=12
-        (get_local $1)
-        (i32.const 0)
+       (tee_local $5
+        (i32.load offset=20
+         (get_local $0)
+        )
        )
-       (i32.store offset=16
-        (get_local $1)
-        (i32.const 0)
+       (i32.gt_u
+        (get_local $4)
+        (get_local $5)
        )
-       (i32.store offset=20
-        (get_local $1)
-        (i32.const 0)
+      )
+     )
+    )
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $0)
+     )
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $0)
+        )
        )
-       (get_local $1)
+       (get_global $~lib/map/FREE_FACTOR)
       )
      )
     )
+    (get_local $4)
+   )
+   (call $~lib/map/Map<u16,i32>#rehash
+    (get_local $0)
+    (get_local $3)
    )
   )
-  (get_local $0)
+  (i32.const 1)
  )
- (func $~lib/map/Map<u32,i32>#find (; 62 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+ (func $~lib/map/Map<u16,i32>#keys (; 73 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
   (local $3 i32)
-  (local $4 i32)
   (set_local $3
-   (i32.load offset=8
-    (i32.add
-     (i32.load
-      (get_local $0)
-     )
-     (i32.mul
-      (i32.and
-       (get_local $2)
-       (i32.load offset=4
-        (get_local $0)
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
        )
+       (i32.const 50)
       )
-      (get_global $~lib/map/BUCKET_SIZE)
+      (get_local $2)
      )
     )
-   )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (get_local $3)
-     (block
-      (block
-       (if
-        (if (result i32)
-         (tee_local $4
-          (i32.eqz
-           (i32.and
-            (i32.load offset=8
-             (get_local $3)
-            )
-            (get_global $~lib/map/EMPTY)
-           )
-          )
-         )
-         (i32.eq
-          (i32.load
-           (get_local $3)
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<u16>#__iterator (; 74 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/map/Map<u16,i32>#values (; 75 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
           )
-          (get_local $1)
-         )
-         (get_local $4)
-        )
-        (return
-         (get_local $3)
-        )
-       )
-       (set_local $3
-        (i32.and
-         (i32.load offset=8
-          (get_local $3)
-         )
-         (i32.xor
-          (get_global $~lib/map/EMPTY)
-          (i32.const -1)
+          (i32.const 8)
          )
         )
+        (i32.const 4)
        )
+       (i32.const 52)
       )
-      (br $continue|0)
+      (get_local $2)
      )
     )
-   )
-  )
-  (i32.const 0)
- )
- (func $~lib/map/Map<u32,i32>#has (; 63 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.ne
-   (call $~lib/map/Map<u32,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<u32>|inlined.0 (result i32)
-     (br $~lib/internal/hash/hash<u32>|inlined.0
-      (call $~lib/internal/hash/hash32
-       (get_local $1)
-      )
-     )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
     )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
    )
-   (i32.const 0)
   )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
  )
- (func $~lib/map/Map<u32,i32>#rehash (; 64 ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/map/Map<u16,i32>#entries (; 76 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
   (local $2 i32)
   (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (local $9 i32)
-  (local $10 i32)
-  (local $11 i32)
-  (local $12 i32)
-  (set_local $2
-   (i32.add
-    (get_local $1)
-    (i32.const 1)
-   )
-  )
   (set_local $3
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $2)
-     (get_global $~lib/map/BUCKET_SIZE)
-    )
-    (i32.const 0)
-   )
-  )
-  (set_local $4
-   (i32.trunc_s/f64
-    (f64.mul
-     (f64.convert_s/i32
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 57)
+      )
       (get_local $2)
      )
-     (get_global $~lib/map/FILL_FACTOR)
     )
-   )
-  )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $4)
-     (block $~lib/map/ENTRY_SIZE<u32,i32>|inlined.1 (result i32)
-      (i32.const 12)
-     )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
     )
-    (i32.const 1)
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
    )
   )
-  (set_local $6
-   (i32.add
-    (i32.load offset=8
-     (get_local $0)
-    )
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<KeyValue<u16,i32>>#__iterator (; 77 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/map/Map<u16,i32>#__iterator (; 78 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/map/Map<u16,i32>#entries
+   (get_local $0)
+  )
+ )
+ (func $std/map/test<u16,i32>~anonymous|3 (; 79 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
    )
   )
-  (set_local $7
-   (i32.add
-    (get_local $6)
-    (i32.mul
-     (i32.load offset=16
+  (block
+   (if
+    (i32.eqz
+     (i32.eq
       (get_local $0)
+      (i32.add
+       (i32.const 20)
+       (i32.and
+        (get_local $1)
+        (i32.const 65535)
+       )
+      )
      )
-     (block $~lib/map/ENTRY_SIZE<u32,i32>|inlined.2 (result i32)
-      (i32.const 12)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 68)
+      (i32.const 4)
      )
+     (unreachable)
     )
    )
-  )
-  (set_local $8
-   (i32.add
-    (get_local $5)
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   (i32.store offset=4
+    (get_local $3)
+    (i32.add
+     (i32.load offset=4
+      (get_local $3)
+     )
+     (i32.const 1)
+    )
    )
   )
+ )
+ (func $~lib/map/Map<u16,i32>#forEach (; 80 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
   (block $break|0
-   (loop $continue|0
-    (if
-     (i32.ne
-      (get_local $6)
-      (get_local $7)
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $2)
+       (i32.load offset=16
+        (get_local $0)
+       )
+      )
      )
-     (block
+    )
+    (block
+     (set_local $3
+      (i32.add
+       (i32.add
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+       )
+       (i32.mul
+        (get_local $2)
+        (block $~lib/map/ENTRY_SIZE<u16,i32>|inlined.6 (result i32)
+         (i32.const 12)
+        )
+       )
+      )
+     )
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=8
+         (get_local $3)
+        )
+        (get_global $~lib/map/EMPTY)
+       )
+      )
       (block
-       (set_local $9
-        (get_local $6)
+       (set_global $~argc
+        (i32.const 3)
        )
-       (if
-        (i32.eqz
-         (i32.and
-          (i32.load offset=8
-           (get_local $9)
-          )
-          (get_global $~lib/map/EMPTY)
-         )
+       (call_indirect (type $iiiv)
+        (i32.load offset=4
+         (get_local $3)
         )
-        (block
-         (set_local $10
-          (get_local $8)
+        (i32.load16_u
+         (get_local $3)
+        )
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (get_local $1)
          )
-         (i32.store
-          (get_local $10)
-          (i32.load
-           (get_local $9)
-          )
-         )
-         (i32.store offset=4
-          (get_local $10)
-          (i32.load offset=4
-           (get_local $9)
-          )
-         )
-         (set_local $11
-          (i32.and
-           (block $~lib/internal/hash/hash<u32>|inlined.2 (result i32)
-            (set_local $11
-             (i32.load
-              (get_local $9)
-             )
-            )
-            (br $~lib/internal/hash/hash<u32>|inlined.2
-             (call $~lib/internal/hash/hash32
-              (get_local $11)
-             )
-            )
-           )
-           (get_local $1)
-          )
-         )
-         (set_local $12
-          (i32.add
-           (get_local $3)
-           (i32.mul
-            (get_local $11)
-            (get_global $~lib/map/BUCKET_SIZE)
-           )
-          )
-         )
-         (i32.store offset=8
-          (get_local $10)
-          (i32.load offset=8
-           (get_local $12)
-          )
-         )
-         (i32.store offset=8
-          (get_local $12)
-          (get_local $8)
-         )
-         (set_local $8
-          (i32.add
-           (get_local $8)
-           (block $~lib/map/ENTRY_SIZE<u32,i32>|inlined.3 (result i32)
-            (i32.const 12)
-           )
-          )
-         )
-        )
-       )
-       (set_local $6
-        (i32.add
-         (get_local $6)
-         (block $~lib/map/ENTRY_SIZE<u32,i32>|inlined.4 (result i32)
-          (i32.const 12)
+         (i32.load
+          (get_global $~env)
          )
         )
        )
       )
-      (br $continue|0)
      )
     )
-   )
-  )
-  (i32.store
-   (get_local $0)
-   (get_local $3)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $4)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
    )
   )
  )
- (func $~lib/map/Map<u32,i32>#set (; 65 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+ (func $std/map/test<u16,i32> (; 81 ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
   (local $6 i32)
-  (set_local $3
-   (block $~lib/internal/hash/hash<u32>|inlined.1 (result i32)
-    (br $~lib/internal/hash/hash<u32>|inlined.1
-     (call $~lib/internal/hash/hash32
-      (get_local $1)
-     )
-    )
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $2
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
    )
   )
-  (set_local $4
-   (call $~lib/map/Map<u32,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (get_local $3)
-   )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
   )
-  (if
-   (get_local $4)
-   (i32.store offset=4
-    (get_local $4)
-    (get_local $2)
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block
+   (set_local $0
+    (call $~lib/map/Map<u16,i32>#constructor
+     (i32.const 0)
+    )
    )
-   (block
-    (if
-     (i32.eq
-      (i32.load offset=16
-       (get_local $0)
-      )
-      (i32.load offset=12
-       (get_local $0)
+   (block $break|0
+    (set_local $1
+     (i32.const 0)
+    )
+    (loop $repeat|0
+     (br_if $break|0
+      (i32.eqz
+       (i32.lt_u
+        (get_local $1)
+        (i32.const 100)
+       )
       )
      )
-     (call $~lib/map/Map<u32,i32>#rehash
-      (get_local $0)
-      (if (result i32)
-       (i32.lt_s
-        (i32.load offset=20
-         (get_local $0)
-        )
-        (i32.trunc_s/f64
-         (f64.mul
-          (f64.convert_s/i32
-           (i32.load offset=12
-            (get_local $0)
-           )
-          )
-          (get_global $~lib/map/FREE_FACTOR)
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<u16,i32>#has
+          (get_local $0)
+          (get_local $1)
          )
         )
        )
-       (i32.load offset=4
-        (get_local $0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 8)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (i32.or
-        (i32.shl
-         (i32.load offset=4
-          (get_local $0)
-         )
-         (i32.const 1)
+      )
+      (call $~lib/map/Map<u16,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 10)
+        (i32.and
+         (get_local $1)
+         (i32.const 65535)
         )
-        (i32.const 1)
        )
       )
-     )
-    )
-    (set_local $5
-     (i32.load offset=8
-      (get_local $0)
-     )
-    )
-    (set_local $4
-     (i32.add
-      (i32.add
-       (get_local $5)
-       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<u16,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 10)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
-      (i32.mul
-       (block (result i32)
-        (set_local $6
-         (i32.load offset=16
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<u16,i32>#get
           (get_local $0)
+          (get_local $1)
          )
-        )
-        (i32.store offset=16
-         (get_local $0)
          (i32.add
-          (get_local $6)
-          (i32.const 1)
+          (i32.const 10)
+          (i32.and
+           (get_local $1)
+           (i32.const 65535)
+          )
          )
         )
-        (get_local $6)
        )
-       (block $~lib/map/ENTRY_SIZE<u32,i32>|inlined.5 (result i32)
-        (i32.const 12)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 11)
+         (i32.const 4)
+        )
+        (unreachable)
        )
       )
      )
-    )
-    (i32.store
-     (get_local $4)
-     (get_local $1)
-    )
-    (i32.store offset=4
-     (get_local $4)
-     (get_local $2)
-    )
-    (i32.store offset=20
-     (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
       )
-      (i32.const 1)
      )
+     (br $repeat|0)
     )
-    (set_local $6
-     (i32.add
-      (i32.load
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<u16,i32>#get:size
        (get_local $0)
       )
-      (i32.mul
-       (i32.and
-        (get_local $3)
-        (i32.load offset=4
-         (get_local $0)
-        )
-       )
-       (get_global $~lib/map/BUCKET_SIZE)
-      )
+      (i32.const 100)
      )
     )
-    (i32.store offset=8
-     (get_local $4)
-     (i32.load offset=8
-      (get_local $6)
-     )
-    )
-    (i32.store offset=8
-     (get_local $6)
-     (get_local $4)
-    )
-   )
-  )
- )
- (func $~lib/map/Map<u32,i32>#get (; 66 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (set_local $2
-   (call $~lib/map/Map<u32,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<u32>|inlined.3 (result i32)
-     (br $~lib/internal/hash/hash<u32>|inlined.3
-      (call $~lib/internal/hash/hash32
-       (get_local $1)
-      )
-     )
-    )
-   )
-  )
-  (if (result i32)
-   (get_local $2)
-   (i32.load offset=4
-    (get_local $2)
-   )
-   (unreachable)
-  )
- )
- (func $~lib/map/Map<u32,i32>#get:size (; 67 ;) (type $ii) (param $0 i32) (result i32)
-  (i32.load offset=20
-   (get_local $0)
-  )
- )
- (func $~lib/map/Map<u32,i32>#delete (; 68 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (set_local $2
-   (call $~lib/map/Map<u32,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<u32>|inlined.4 (result i32)
-     (br $~lib/internal/hash/hash<u32>|inlined.4
-      (call $~lib/internal/hash/hash32
-       (get_local $1)
-      )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 13)
+      (i32.const 2)
      )
+     (unreachable)
     )
    )
-  )
-  (if
-   (i32.eqz
-    (get_local $2)
-   )
-   (return
-    (i32.const 0)
-   )
-  )
-  (i32.store offset=8
-   (get_local $2)
-   (i32.or
-    (i32.load offset=8
-     (get_local $2)
-    )
-    (get_global $~lib/map/EMPTY)
-   )
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.sub
-    (i32.load offset=20
-     (get_local $0)
-    )
-    (i32.const 1)
-   )
-  )
-  (set_local $3
-   (i32.shr_u
-    (i32.load offset=4
-     (get_local $0)
+   (block $break|1
+    (set_local $1
+     (i32.const 0)
     )
-    (i32.const 1)
-   )
-  )
-  (if
-   (if (result i32)
-    (tee_local $4
-     (i32.ge_u
-      (i32.add
-       (get_local $3)
-       (i32.const 1)
-      )
-      (select
-       (tee_local $4
-        (get_global $~lib/map/INITIAL_CAPACITY)
+    (loop $repeat|1
+     (br_if $break|1
+      (i32.eqz
+       (i32.lt_u
+        (get_local $1)
+        (i32.const 100)
        )
-       (tee_local $5
-        (i32.load offset=20
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<u16,i32>#has
          (get_local $0)
+         (get_local $1)
         )
        )
-       (i32.gt_u
-        (get_local $4)
-        (get_local $5)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 17)
+         (i32.const 4)
+        )
+        (unreachable)
        )
       )
-     )
-    )
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $0)
-     )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $0)
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<u16,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 10)
+          (i32.and
+           (get_local $1)
+           (i32.const 65535)
+          )
+         )
         )
        )
-       (get_global $~lib/map/FREE_FACTOR)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 18)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
-     )
-    )
-    (get_local $4)
-   )
-   (call $~lib/map/Map<u32,i32>#rehash
-    (get_local $0)
-    (get_local $3)
-   )
-  )
-  (i32.const 1)
- )
- (func $std/map/test<u32,i32> (; 69 ;) (type $v)
-  (local $0 i32)
-  (local $1 i32)
-  (set_local $0
-   (call $~lib/map/Map<u32,i32>#constructor
-    (i32.const 0)
-   )
-  )
-  (block $break|0
-   (set_local $1
-    (i32.const 0)
-   )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (i32.lt_u
+      (call $~lib/map/Map<u16,i32>#set
+       (get_local $0)
        (get_local $1)
-       (i32.const 100)
+       (i32.add
+        (i32.const 20)
+        (i32.and
+         (get_local $1)
+         (i32.const 65535)
+        )
+       )
       )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
+      (if
        (i32.eqz
-        (call $~lib/map/Map<u32,i32>#has
+        (call $~lib/map/Map<u16,i32>#has
          (get_local $0)
          (get_local $1)
         )
        )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 20)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 8)
-        (i32.const 4)
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<u16,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.and
+           (get_local $1)
+           (i32.const 65535)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 21)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-     (call $~lib/map/Map<u32,i32>#set
-      (get_local $0)
-      (get_local $1)
+     (set_local $1
       (i32.add
-       (i32.const 10)
        (get_local $1)
+       (i32.const 1)
       )
      )
-     (if
+     (br $repeat|1)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<u16,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 23)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|2
+    (set_local $1
+     (i32.const 0)
+    )
+    (loop $repeat|2
+     (br_if $break|2
       (i32.eqz
-       (call $~lib/map/Map<u32,i32>#has
-        (get_local $0)
+       (i32.lt_u
         (get_local $1)
+        (i32.const 50)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 10)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
      )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<u32,i32>#get
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<u16,i32>#has
          (get_local $0)
          (get_local $1)
         )
-        (i32.add
-         (i32.const 10)
-         (get_local $1)
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 27)
+         (i32.const 4)
         )
+        (unreachable)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 11)
-        (i32.const 4)
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<u16,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.and
+           (get_local $1)
+           (i32.const 65535)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 28)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/map/Map<u16,i32>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<u16,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 30)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-    )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
+     (br $repeat|2)
     )
-    (br $repeat|0)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<u32,i32>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<u16,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
      )
-     (i32.const 100)
     )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 13)
-     (i32.const 2)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 32)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (unreachable)
-   )
-  )
-  (block $break|1
-   (set_local $1
-    (i32.const 0)
    )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.eqz
-      (i32.lt_u
-       (get_local $1)
-       (i32.const 100)
-      )
-     )
+   (block $break|3
+    (set_local $1
+     (i32.const 0)
     )
-    (block
-     (if
+    (loop $repeat|3
+     (br_if $break|3
       (i32.eqz
-       (call $~lib/map/Map<u32,i32>#has
-        (get_local $0)
+       (i32.lt_u
         (get_local $1)
+        (i32.const 50)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 17)
-        (i32.const 4)
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<u16,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 36)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<u32,i32>#get
-         (get_local $0)
+      (call $~lib/map/Map<u16,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 10)
+        (i32.and
          (get_local $1)
+         (i32.const 65535)
         )
-        (i32.add
-         (i32.const 10)
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<u16,i32>#has
+         (get_local $0)
          (get_local $1)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 18)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 38)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
-      )
-     )
-     (call $~lib/map/Map<u32,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 20)
-       (get_local $1)
       )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<u32,i32>#has
+      (drop
+       (call $~lib/map/Map<u16,i32>#delete
         (get_local $0)
         (get_local $1)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 20)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<u32,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 20)
-         (get_local $1)
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<u16,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 21)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 40)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-    )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
+     (br $repeat|3)
     )
-    (br $repeat|1)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<u32,i32>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<u16,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
      )
-     (i32.const 100)
     )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 23)
-     (i32.const 2)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 42)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (unreachable)
    )
-  )
-  (block $break|2
-   (set_local $1
+   (i32.store offset=4
+    (get_local $2)
     (i32.const 0)
    )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (i32.lt_u
-       (get_local $1)
-       (i32.const 50)
+   (block $break|4
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<u16>#__iterator
+      (call $~lib/map/Map<u16,i32>#keys
+       (get_local $0)
       )
      )
     )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<u32,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
+    (loop $repeat|4
+     (br_if $break|4
+      (call $~lib/iterator/Iterator<u16>#get:done|virtual
+       (get_local $1)
       )
+     )
+     (block
       (block
-       (call $~lib/env/abort
+       (set_local $5
+        (call $~lib/memory/memory.allocate
+         (i32.const 6)
+        )
+       )
+       (i32.store
+        (get_local $5)
+        (get_local $2)
+       )
+       (i32.store16 offset=4
+        (get_local $5)
         (i32.const 0)
-        (i32.const 120)
-        (i32.const 27)
-        (i32.const 4)
        )
-       (unreachable)
+      )
+      (i32.store16 offset=4
+       (get_local $5)
+       (call $~lib/iterator/Iterator<u16>#next|virtual
+        (get_local $1)
+       )
       )
      )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<u32,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 20)
-         (get_local $1)
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $6
+          (i32.ge_u
+           (i32.load16_u offset=4
+            (get_local $5)
+           )
+           (i32.const 50)
+          )
+         )
+         (i32.lt_u
+          (i32.load16_u offset=4
+           (get_local $5)
+          )
+          (i32.const 100)
+         )
+         (get_local $6)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 28)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 47)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
-      )
-     )
-     (drop
-      (call $~lib/map/Map<u32,i32>#delete
-       (get_local $0)
-       (get_local $1)
       )
-     )
-     (if
-      (i32.eqz
+      (if
        (i32.eqz
-        (call $~lib/map/Map<u32,i32>#has
-         (get_local $0)
-         (get_local $1)
+        (i32.eq
+         (call $~lib/map/Map<u16,i32>#get
+          (get_local $0)
+          (i32.load16_u offset=4
+           (get_local $5)
+          )
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.load16_u offset=4
+           (get_local $5)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 48)
+         (i32.const 4)
         )
+        (unreachable)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 30)
-        (i32.const 4)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
-       (unreachable)
       )
      )
+     (br $repeat|4)
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
      )
     )
-    (br $repeat|2)
-   )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<u32,i32>#get:size
-      (get_local $0)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 51)
+      (i32.const 2)
      )
-     (i32.const 50)
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 32)
-     (i32.const 2)
+   (block $break|5
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<i32>#__iterator
+      (call $~lib/map/Map<u16,i32>#values
+       (get_local $0)
+      )
+     )
     )
-    (unreachable)
-   )
-  )
-  (block $break|3
-   (set_local $1
-    (i32.const 0)
-   )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (i32.lt_u
+    (loop $repeat|5
+     (br_if $break|5
+      (call $~lib/iterator/Iterator<i32>#get:done|virtual
        (get_local $1)
-       (i32.const 50)
       )
      )
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<u32,i32>#has
-         (get_local $0)
-         (get_local $1)
+     (block
+      (block
+       (set_local $8
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
+       (i32.store
+        (get_local $8)
+        (get_local $2)
+       )
+       (i32.store offset=4
+        (get_local $8)
         (i32.const 0)
-        (i32.const 120)
-        (i32.const 36)
-        (i32.const 4)
        )
-       (unreachable)
       )
-     )
-     (call $~lib/map/Map<u32,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 10)
-       (get_local $1)
+      (i32.store offset=4
+       (get_local $8)
+       (call $~lib/iterator/Iterator<i32>#next|virtual
+        (get_local $1)
+       )
       )
      )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<u32,i32>#has
-        (get_local $0)
-        (get_local $1)
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $6
+          (i32.ge_s
+           (i32.load offset=4
+            (get_local $8)
+           )
+           (i32.const 70)
+          )
+         )
+         (i32.lt_s
+          (i32.load offset=4
+           (get_local $8)
+          )
+          (i32.const 120)
+         )
+         (get_local $6)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 53)
+         (i32.const 4)
+        )
+        (unreachable)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 38)
-        (i32.const 4)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
-       (unreachable)
       )
      )
-     (drop
-      (call $~lib/map/Map<u32,i32>#delete
+     (br $repeat|5)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 56)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|6
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<KeyValue<u16,i32>>#__iterator
+      (call $~lib/map/Map<u16,i32>#entries
        (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|6
+     (br_if $break|6
+      (call $~lib/iterator/Iterator<KeyValue<u16,i32>>#get:done|virtual
        (get_local $1)
       )
      )
-     (if
-      (i32.eqz
+     (set_local $6
+      (call $~lib/iterator/Iterator<KeyValue<u16,i32>>#next|virtual
+       (get_local $1)
+      )
+     )
+     (block
+      (if
        (i32.eqz
-        (call $~lib/map/Map<u32,i32>#has
-         (get_local $0)
-         (get_local $1)
+        (i32.eq
+         (i32.load offset=4
+          (get_local $6)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.load16_u
+           (get_local $6)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 58)
+         (i32.const 4)
         )
+        (unreachable)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 40)
-        (i32.const 4)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
-       (unreachable)
       )
      )
+     (br $repeat|6)
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 61)
+      (i32.const 2)
      )
+     (unreachable)
     )
-    (br $repeat|3)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<u32,i32>#get:size
+   (block $break|7
+    (set_local $6
+     (call $~lib/map/Map<u16,i32>#__iterator
       (get_local $0)
      )
-     (i32.const 50)
+    )
+    (loop $repeat|7
+     (br_if $break|7
+      (call $~lib/iterator/Iterator<KeyValue<u16,i32>>#get:done|virtual
+       (get_local $6)
+      )
+     )
+     (set_local $1
+      (call $~lib/iterator/Iterator<KeyValue<u16,i32>>#next|virtual
+       (get_local $6)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load offset=4
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.load16_u
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 63)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|7)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 66)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (unreachable)
    )
-  )
-  (call $~lib/map/Map<u32,i32>#clear
-   (get_local $0)
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<u32,i32>#get:size
-      (get_local $0)
+   (call $~lib/map/Map<u16,i32>#forEach
+    (get_local $0)
+    (block (result i32)
+     (set_local $1
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
      )
-     (i32.const 0)
+     (i32.store
+      (get_local $1)
+      (i32.const 3)
+     )
+     (i32.store offset=4
+      (get_local $1)
+      (get_local $2)
+     )
+     (get_local $1)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 46)
-     (i32.const 2)
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 71)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/map/Map<u16,i32>#clear
+    (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<u16,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 75)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (unreachable)
    )
   )
  )
- (func $~lib/map/Map<i64,i32>#clear (; 70 ;) (type $iv) (param $0 i32)
+ (func $~lib/map/Map<i32,i32>#clear (; 82 ;) (type $iv) (param $0 i32)
   (i32.store
    (get_local $0)
    (call $~lib/arraybuffer/ArrayBuffer#constructor
@@ -7764,7 +8246,7 @@
    (get_local $0)
    (call $~lib/arraybuffer/ArrayBuffer#constructor
     (i32.const 0)
-    (i32.const 64)
+    (i32.const 48)
     (i32.const 1)
    )
   )
@@ -7781,9 +8263,9 @@
    (i32.const 0)
   )
  )
- (func $~lib/map/Map<i64,i32>#constructor (; 71 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/map/Map<i32,i32>#constructor (; 83 ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
-  (call $~lib/map/Map<i64,i32>#clear
+  (call $~lib/map/Map<i32,i32>#clear
    (tee_local $0
     (if (result i32)
      (get_local $0)
@@ -7827,45 +8309,30 @@
   )
   (get_local $0)
  )
- (func $~lib/internal/hash/hash64 (; 72 ;) (type $Ii) (param $0 i64) (result i32)
+ (func $~lib/internal/hash/hash32 (; 84 ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
-  (local $2 i32)
-  (local $3 i32)
   (set_local $1
-   (i32.wrap/i64
-    (get_local $0)
-   )
-  )
-  (set_local $2
-   (i32.wrap/i64
-    (i64.shr_u
-     (get_local $0)
-     (i64.const 32)
-    )
-   )
-  )
-  (set_local $3
    (get_global $~lib/internal/hash/FNV_OFFSET)
   )
-  (set_local $3
+  (set_local $1
    (i32.mul
     (i32.xor
-     (get_local $3)
+     (get_local $1)
      (i32.and
-      (get_local $1)
+      (get_local $0)
       (i32.const 255)
      )
     )
     (get_global $~lib/internal/hash/FNV_PRIME)
    )
   )
-  (set_local $3
+  (set_local $1
    (i32.mul
     (i32.xor
-     (get_local $3)
+     (get_local $1)
      (i32.and
       (i32.shr_u
-       (get_local $1)
+       (get_local $0)
        (i32.const 8)
       )
       (i32.const 255)
@@ -7874,13 +8341,13 @@
     (get_global $~lib/internal/hash/FNV_PRIME)
    )
   )
-  (set_local $3
+  (set_local $1
    (i32.mul
     (i32.xor
-     (get_local $3)
+     (get_local $1)
      (i32.and
       (i32.shr_u
-       (get_local $1)
+       (get_local $0)
        (i32.const 16)
       )
       (i32.const 255)
@@ -7889,82 +8356,28 @@
     (get_global $~lib/internal/hash/FNV_PRIME)
    )
   )
-  (set_local $3
+  (set_local $1
    (i32.mul
     (i32.xor
-     (get_local $3)
+     (get_local $1)
      (i32.shr_u
-      (get_local $1)
+      (get_local $0)
       (i32.const 24)
      )
     )
     (get_global $~lib/internal/hash/FNV_PRIME)
    )
   )
+  (get_local $1)
+ )
+ (func $~lib/map/Map<i32,i32>#find (; 85 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
   (set_local $3
-   (i32.mul
-    (i32.xor
-     (get_local $3)
-     (i32.and
-      (get_local $2)
-      (i32.const 255)
-     )
-    )
-    (get_global $~lib/internal/hash/FNV_PRIME)
-   )
-  )
-  (set_local $3
-   (i32.mul
-    (i32.xor
-     (get_local $3)
-     (i32.and
-      (i32.shr_u
-       (get_local $2)
-       (i32.const 8)
-      )
-      (i32.const 255)
-     )
-    )
-    (get_global $~lib/internal/hash/FNV_PRIME)
-   )
-  )
-  (set_local $3
-   (i32.mul
-    (i32.xor
-     (get_local $3)
-     (i32.and
-      (i32.shr_u
-       (get_local $2)
-       (i32.const 16)
-      )
-      (i32.const 255)
-     )
-    )
-    (get_global $~lib/internal/hash/FNV_PRIME)
-   )
-  )
-  (set_local $3
-   (i32.mul
-    (i32.xor
-     (get_local $3)
-     (i32.shr_u
-      (get_local $2)
-      (i32.const 24)
-     )
-    )
-    (get_global $~lib/internal/hash/FNV_PRIME)
-   )
-  )
-  (get_local $3)
- )
- (func $~lib/map/Map<i64,i32>#find (; 73 ;) (type $iIii) (param $0 i32) (param $1 i64) (param $2 i32) (result i32)
-  (local $3 i32)
-  (local $4 i32)
-  (set_local $3
-   (i32.load offset=8
-    (i32.add
-     (i32.load
-      (get_local $0)
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (get_local $0)
      )
      (i32.mul
       (i32.and
@@ -7989,15 +8402,15 @@
          (tee_local $4
           (i32.eqz
            (i32.and
-            (i32.load offset=12
+            (i32.load offset=8
              (get_local $3)
             )
             (get_global $~lib/map/EMPTY)
            )
           )
          )
-         (i64.eq
-          (i64.load
+         (i32.eq
+          (i32.load
            (get_local $3)
           )
           (get_local $1)
@@ -8010,7 +8423,7 @@
        )
        (set_local $3
         (i32.and
-         (i32.load offset=12
+         (i32.load offset=8
           (get_local $3)
          )
          (i32.xor
@@ -8027,14 +8440,14 @@
   )
   (i32.const 0)
  )
- (func $~lib/map/Map<i64,i32>#has (; 74 ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
+ (func $~lib/map/Map<i32,i32>#has (; 86 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (i32.ne
-   (call $~lib/map/Map<i64,i32>#find
+   (call $~lib/map/Map<i32,i32>#find
     (get_local $0)
     (get_local $1)
-    (block $~lib/internal/hash/hash<i64>|inlined.0 (result i32)
-     (br $~lib/internal/hash/hash<i64>|inlined.0
-      (call $~lib/internal/hash/hash64
+    (block $~lib/internal/hash/hash<i32>|inlined.0 (result i32)
+     (br $~lib/internal/hash/hash<i32>|inlined.0
+      (call $~lib/internal/hash/hash32
        (get_local $1)
       )
      )
@@ -8043,7 +8456,7 @@
    (i32.const 0)
   )
  )
- (func $~lib/map/Map<i64,i32>#rehash (; 75 ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/map/Map<i32,i32>#rehash (; 87 ;) (type $iiv) (param $0 i32) (param $1 i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
@@ -8053,9 +8466,8 @@
   (local $8 i32)
   (local $9 i32)
   (local $10 i32)
-  (local $11 i64)
+  (local $11 i32)
   (local $12 i32)
-  (local $13 i32)
   (set_local $2
    (i32.add
     (get_local $1)
@@ -8087,8 +8499,8 @@
     (i32.const 0)
     (i32.mul
      (get_local $4)
-     (block $~lib/map/ENTRY_SIZE<i64,i32>|inlined.1 (result i32)
-      (i32.const 16)
+     (block $~lib/map/ENTRY_SIZE<i32,i32>|inlined.1 (result i32)
+      (i32.const 12)
      )
     )
     (i32.const 1)
@@ -8109,8 +8521,8 @@
      (i32.load offset=16
       (get_local $0)
      )
-     (block $~lib/map/ENTRY_SIZE<i64,i32>|inlined.2 (result i32)
-      (i32.const 16)
+     (block $~lib/map/ENTRY_SIZE<i32,i32>|inlined.2 (result i32)
+      (i32.const 12)
      )
     )
    )
@@ -8136,7 +8548,7 @@
        (if
         (i32.eqz
          (i32.and
-          (i32.load offset=12
+          (i32.load offset=8
            (get_local $9)
           )
           (get_global $~lib/map/EMPTY)
@@ -8146,28 +8558,28 @@
          (set_local $10
           (get_local $8)
          )
-         (i64.store
+         (i32.store
           (get_local $10)
-          (i64.load
+          (i32.load
            (get_local $9)
           )
          )
-         (i32.store offset=8
+         (i32.store offset=4
           (get_local $10)
-          (i32.load offset=8
+          (i32.load offset=4
            (get_local $9)
           )
          )
-         (set_local $12
+         (set_local $11
           (i32.and
-           (block $~lib/internal/hash/hash<i64>|inlined.2 (result i32)
+           (block $~lib/internal/hash/hash<i32>|inlined.2 (result i32)
             (set_local $11
-             (i64.load
+             (i32.load
               (get_local $9)
              )
             )
-            (br $~lib/internal/hash/hash<i64>|inlined.2
-             (call $~lib/internal/hash/hash64
+            (br $~lib/internal/hash/hash<i32>|inlined.2
+             (call $~lib/internal/hash/hash32
               (get_local $11)
              )
             )
@@ -8175,30 +8587,30 @@
            (get_local $1)
           )
          )
-         (set_local $13
+         (set_local $12
           (i32.add
            (get_local $3)
            (i32.mul
-            (get_local $12)
+            (get_local $11)
             (get_global $~lib/map/BUCKET_SIZE)
            )
           )
          )
-         (i32.store offset=12
+         (i32.store offset=8
           (get_local $10)
           (i32.load offset=8
-           (get_local $13)
+           (get_local $12)
           )
          )
          (i32.store offset=8
-          (get_local $13)
+          (get_local $12)
           (get_local $8)
          )
          (set_local $8
           (i32.add
            (get_local $8)
-           (block $~lib/map/ENTRY_SIZE<i64,i32>|inlined.3 (result i32)
-            (i32.const 16)
+           (block $~lib/map/ENTRY_SIZE<i32,i32>|inlined.3 (result i32)
+            (i32.const 12)
            )
           )
          )
@@ -8207,8 +8619,8 @@
        (set_local $6
         (i32.add
          (get_local $6)
-         (block $~lib/map/ENTRY_SIZE<i64,i32>|inlined.4 (result i32)
-          (i32.const 16)
+         (block $~lib/map/ENTRY_SIZE<i32,i32>|inlined.4 (result i32)
+          (i32.const 12)
          )
         )
        )
@@ -8241,22 +8653,22 @@
    )
   )
  )
- (func $~lib/map/Map<i64,i32>#set (; 76 ;) (type $iIiv) (param $0 i32) (param $1 i64) (param $2 i32)
+ (func $~lib/map/Map<i32,i32>#set (; 88 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
   (local $6 i32)
   (set_local $3
-   (block $~lib/internal/hash/hash<i64>|inlined.1 (result i32)
-    (br $~lib/internal/hash/hash<i64>|inlined.1
-     (call $~lib/internal/hash/hash64
+   (block $~lib/internal/hash/hash<i32>|inlined.1 (result i32)
+    (br $~lib/internal/hash/hash<i32>|inlined.1
+     (call $~lib/internal/hash/hash32
       (get_local $1)
      )
     )
    )
   )
   (set_local $4
-   (call $~lib/map/Map<i64,i32>#find
+   (call $~lib/map/Map<i32,i32>#find
     (get_local $0)
     (get_local $1)
     (get_local $3)
@@ -8264,7 +8676,7 @@
   )
   (if
    (get_local $4)
-   (i32.store offset=8
+   (i32.store offset=4
     (get_local $4)
     (get_local $2)
    )
@@ -8278,7 +8690,7 @@
        (get_local $0)
       )
      )
-     (call $~lib/map/Map<i64,i32>#rehash
+     (call $~lib/map/Map<i32,i32>#rehash
       (get_local $0)
       (if (result i32)
        (i32.lt_s
@@ -8338,17 +8750,17 @@
         )
         (get_local $6)
        )
-       (block $~lib/map/ENTRY_SIZE<i64,i32>|inlined.5 (result i32)
-        (i32.const 16)
+       (block $~lib/map/ENTRY_SIZE<i32,i32>|inlined.5 (result i32)
+        (i32.const 12)
        )
       )
      )
     )
-    (i64.store
+    (i32.store
      (get_local $4)
      (get_local $1)
     )
-    (i32.store offset=8
+    (i32.store offset=4
      (get_local $4)
      (get_local $2)
     )
@@ -8377,7 +8789,7 @@
       )
      )
     )
-    (i32.store offset=12
+    (i32.store offset=8
      (get_local $4)
      (i32.load offset=8
       (get_local $6)
@@ -8390,15 +8802,15 @@
    )
   )
  )
- (func $~lib/map/Map<i64,i32>#get (; 77 ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
+ (func $~lib/map/Map<i32,i32>#get (; 89 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (set_local $2
-   (call $~lib/map/Map<i64,i32>#find
+   (call $~lib/map/Map<i32,i32>#find
     (get_local $0)
     (get_local $1)
-    (block $~lib/internal/hash/hash<i64>|inlined.3 (result i32)
-     (br $~lib/internal/hash/hash<i64>|inlined.3
-      (call $~lib/internal/hash/hash64
+    (block $~lib/internal/hash/hash<i32>|inlined.3 (result i32)
+     (br $~lib/internal/hash/hash<i32>|inlined.3
+      (call $~lib/internal/hash/hash32
        (get_local $1)
       )
      )
@@ -8407,29 +8819,29 @@
   )
   (if (result i32)
    (get_local $2)
-   (i32.load offset=8
+   (i32.load offset=4
     (get_local $2)
    )
    (unreachable)
   )
  )
- (func $~lib/map/Map<i64,i32>#get:size (; 78 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/map/Map<i32,i32>#get:size (; 90 ;) (type $ii) (param $0 i32) (result i32)
   (i32.load offset=20
    (get_local $0)
   )
  )
- (func $~lib/map/Map<i64,i32>#delete (; 79 ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
+ (func $~lib/map/Map<i32,i32>#delete (; 91 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
   (set_local $2
-   (call $~lib/map/Map<i64,i32>#find
+   (call $~lib/map/Map<i32,i32>#find
     (get_local $0)
     (get_local $1)
-    (block $~lib/internal/hash/hash<i64>|inlined.4 (result i32)
-     (br $~lib/internal/hash/hash<i64>|inlined.4
-      (call $~lib/internal/hash/hash64
+    (block $~lib/internal/hash/hash<i32>|inlined.4 (result i32)
+     (br $~lib/internal/hash/hash<i32>|inlined.4
+      (call $~lib/internal/hash/hash32
        (get_local $1)
       )
      )
@@ -8444,10 +8856,10 @@
     (i32.const 0)
    )
   )
-  (i32.store offset=12
+  (i32.store offset=8
    (get_local $2)
    (i32.or
-    (i32.load offset=12
+    (i32.load offset=8
      (get_local $2)
     )
     (get_global $~lib/map/EMPTY)
@@ -8511,3990 +8923,16079 @@
     )
     (get_local $4)
    )
-   (call $~lib/map/Map<i64,i32>#rehash
+   (call $~lib/map/Map<i32,i32>#rehash
     (get_local $0)
     (get_local $3)
    )
   )
   (i32.const 1)
  )
- (func $std/map/test<i64,i32> (; 80 ;) (type $v)
-  (local $0 i32)
-  (local $1 i64)
-  (set_local $0
-   (call $~lib/map/Map<i64,i32>#constructor
-    (i32.const 0)
-   )
-  )
-  (block $break|0
-   (set_local $1
-    (i64.const 0)
-   )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (i64.lt_s
-       (get_local $1)
-       (i64.const 100)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<i64,i32>#has
-         (get_local $0)
-         (get_local $1)
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 8)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/map/Map<i64,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 10)
-       (i32.wrap/i64
-        (get_local $1)
-       )
-      )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<i64,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 10)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<i64,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 10)
-         (i32.wrap/i64
-          (get_local $1)
+ (func $~lib/map/Map<i32,i32>#keys (; 92 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
          )
         )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 11)
         (i32.const 4)
        )
-       (unreachable)
+       (i32.const 61)
       )
+      (get_local $2)
      )
     )
-    (set_local $1
-     (i64.add
-      (get_local $1)
-      (i64.const 1)
-     )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
     )
-    (br $repeat|0)
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<i64,i32>#get:size
-      (get_local $0)
-     )
-     (i32.const 100)
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/map/Map<i32,i32>#values (; 93 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 62)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
     )
+    (get_local $1)
    )
-   (block
-    (call $~lib/env/abort
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/map/Map<i32,i32>#entries (; 94 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 67)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 13)
-     (i32.const 2)
     )
-    (unreachable)
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
    )
   )
-  (block $break|1
-   (set_local $1
-    (i64.const 0)
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<KeyValue<i32,i32>>#__iterator (; 95 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/map/Map<i32,i32>#__iterator (; 96 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/map/Map<i32,i32>#entries
+   (get_local $0)
+  )
+ )
+ (func $std/map/test<i32,i32>~anonymous|4 (; 97 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
    )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.eqz
-      (i64.lt_s
+  )
+  (block
+   (if
+    (i32.eqz
+     (i32.eq
+      (get_local $0)
+      (i32.add
+       (i32.const 20)
        (get_local $1)
-       (i64.const 100)
       )
      )
     )
     (block
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<i64,i32>#has
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 68)
+      (i32.const 4)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $3)
+    (i32.add
+     (i32.load offset=4
+      (get_local $3)
+     )
+     (i32.const 1)
+    )
+   )
+  )
+ )
+ (func $~lib/map/Map<i32,i32>#forEach (; 98 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $2)
+       (i32.load offset=16
         (get_local $0)
-        (get_local $1)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 17)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
      )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<i64,i32>#get
+    )
+    (block
+     (set_local $3
+      (i32.add
+       (i32.add
+        (i32.load offset=8
          (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 10)
-         (i32.wrap/i64
-          (get_local $1)
-         )
         )
+        (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 18)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/map/Map<i64,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 20)
-       (i32.wrap/i64
-        (get_local $1)
+       (i32.mul
+        (get_local $2)
+        (block $~lib/map/ENTRY_SIZE<i32,i32>|inlined.6 (result i32)
+         (i32.const 12)
+        )
        )
       )
      )
      (if
       (i32.eqz
-       (call $~lib/map/Map<i64,i32>#has
-        (get_local $0)
-        (get_local $1)
+       (i32.and
+        (i32.load offset=8
+         (get_local $3)
+        )
+        (get_global $~lib/map/EMPTY)
        )
       )
       (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 20)
-        (i32.const 4)
+       (set_global $~argc
+        (i32.const 3)
        )
-       (unreachable)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<i64,i32>#get
-         (get_local $0)
-         (get_local $1)
+       (call_indirect (type $iiiv)
+        (i32.load offset=4
+         (get_local $3)
         )
-        (i32.add
-         (i32.const 20)
-         (i32.wrap/i64
+        (i32.load
+         (get_local $3)
+        )
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
           (get_local $1)
          )
+         (i32.load
+          (get_global $~env)
+         )
         )
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 21)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
      )
     )
-    (set_local $1
-     (i64.add
-      (get_local $1)
-      (i64.const 1)
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
      )
     )
-    (br $repeat|1)
+    (br $repeat|0)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<i64,i32>#get:size
-      (get_local $0)
-     )
-     (i32.const 100)
-    )
+ )
+ (func $std/map/test<i32,i32> (; 99 ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $2
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
    )
-   (block
-    (call $~lib/env/abort
+  )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block
+   (set_local $0
+    (call $~lib/map/Map<i32,i32>#constructor
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 23)
-     (i32.const 2)
     )
-    (unreachable)
-   )
-  )
-  (block $break|2
-   (set_local $1
-    (i64.const 0)
    )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (i64.lt_s
-       (get_local $1)
-       (i64.const 50)
-      )
-     )
+   (block $break|0
+    (set_local $1
+     (i32.const 0)
     )
-    (block
-     (if
+    (loop $repeat|0
+     (br_if $break|0
       (i32.eqz
-       (call $~lib/map/Map<i64,i32>#has
-        (get_local $0)
+       (i32.lt_s
         (get_local $1)
+        (i32.const 100)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 27)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
      )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<i64,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 20)
-         (i32.wrap/i64
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<i32,i32>#has
+          (get_local $0)
           (get_local $1)
          )
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 28)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 8)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
-     )
-     (drop
-      (call $~lib/map/Map<i64,i32>#delete
+      (call $~lib/map/Map<i32,i32>#set
        (get_local $0)
        (get_local $1)
+       (i32.add
+        (i32.const 10)
+        (get_local $1)
+       )
       )
-     )
-     (if
-      (i32.eqz
+      (if
        (i32.eqz
-        (call $~lib/map/Map<i64,i32>#has
+        (call $~lib/map/Map<i32,i32>#has
          (get_local $0)
          (get_local $1)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 30)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 10)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<i32,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 10)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 11)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-    )
-    (set_local $1
-     (i64.add
-      (get_local $1)
-      (i64.const 1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
+     (br $repeat|0)
     )
-    (br $repeat|2)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<i64,i32>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<i32,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
      )
-     (i32.const 50)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 13)
+      (i32.const 2)
+     )
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
+   (block $break|1
+    (set_local $1
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 32)
-     (i32.const 2)
     )
-    (unreachable)
-   )
-  )
-  (block $break|3
-   (set_local $1
-    (i64.const 0)
-   )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (i64.lt_s
-       (get_local $1)
-       (i64.const 50)
+    (loop $repeat|1
+     (br_if $break|1
+      (i32.eqz
+       (i32.lt_s
+        (get_local $1)
+        (i32.const 100)
+       )
       )
      )
-    )
-    (block
-     (if
-      (i32.eqz
+     (block
+      (if
        (i32.eqz
-        (call $~lib/map/Map<i64,i32>#has
+        (call $~lib/map/Map<i32,i32>#has
          (get_local $0)
          (get_local $1)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 36)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/map/Map<i64,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 10)
-       (i32.wrap/i64
-        (get_local $1)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 17)
+         (i32.const 4)
+        )
+        (unreachable)
        )
       )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<i64,i32>#has
-        (get_local $0)
-        (get_local $1)
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<i32,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 10)
+          (get_local $1)
+         )
+        )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 38)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 18)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
-     )
-     (drop
-      (call $~lib/map/Map<i64,i32>#delete
+      (call $~lib/map/Map<i32,i32>#set
        (get_local $0)
        (get_local $1)
+       (i32.add
+        (i32.const 20)
+        (get_local $1)
+       )
       )
-     )
-     (if
-      (i32.eqz
+      (if
        (i32.eqz
-        (call $~lib/map/Map<i64,i32>#has
+        (call $~lib/map/Map<i32,i32>#has
          (get_local $0)
          (get_local $1)
         )
        )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 20)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 40)
-        (i32.const 4)
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<i32,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 21)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-    )
-    (set_local $1
-     (i64.add
-      (get_local $1)
-      (i64.const 1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
+     (br $repeat|1)
     )
-    (br $repeat|3)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<i64,i32>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<i32,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
      )
-     (i32.const 50)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
     )
-    (unreachable)
-   )
-  )
-  (call $~lib/map/Map<i64,i32>#clear
-   (get_local $0)
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<i64,i32>#get:size
-      (get_local $0)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 23)
+      (i32.const 2)
      )
-     (i32.const 0)
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
+   (block $break|2
+    (set_local $1
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 46)
-     (i32.const 2)
     )
-    (unreachable)
-   )
-  )
- )
- (func $~lib/map/Map<u64,i32>#clear (; 81 ;) (type $iv) (param $0 i32)
-  (i32.store
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 16)
-    (i32.const 0)
-   )
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (i32.sub
-    (get_global $~lib/map/INITIAL_CAPACITY)
-    (i32.const 1)
-   )
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 64)
-    (i32.const 1)
-   )
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_global $~lib/map/INITIAL_CAPACITY)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.const 0)
-  )
- )
- (func $~lib/map/Map<u64,i32>#constructor (; 82 ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (call $~lib/map/Map<u64,i32>#clear
-   (tee_local $0
-    (if (result i32)
-     (get_local $0)
-     (get_local $0)
-     (tee_local $0
-      (block (result i32)
-       (set_local $1
-        (call $~lib/memory/memory.allocate
-         (i32.const 24)
+    (loop $repeat|2
+     (br_if $break|2
+      (i32.eqz
+       (i32.lt_s
+        (get_local $1)
+        (i32.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<i32,i32>#has
+         (get_local $0)
+         (get_local $1)
         )
        )
-       (i32.store
-        (get_local $1)
-        (i32.const 0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 27)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (i32.store offset=4
-        (get_local $1)
-        (i32.const 0)
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<i32,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (get_local $1)
+         )
+        )
        )
-       (i32.store offset=8
-        (get_local $1)
-        (i32.const 0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 28)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (i32.store offset=12
+      )
+      (drop
+       (call $~lib/map/Map<i32,i32>#delete
+        (get_local $0)
         (get_local $1)
-        (i32.const 0)
        )
-       (i32.store offset=16
-        (get_local $1)
-        (i32.const 0)
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<i32,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
        )
-       (i32.store offset=20
-        (get_local $1)
-        (i32.const 0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 30)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (get_local $1)
       )
      )
-    )
-   )
-  )
-  (get_local $0)
- )
- (func $~lib/map/Map<u64,i32>#find (; 83 ;) (type $iIii) (param $0 i32) (param $1 i64) (param $2 i32) (result i32)
-  (local $3 i32)
-  (local $4 i32)
-  (set_local $3
-   (i32.load offset=8
-    (i32.add
-     (i32.load
-      (get_local $0)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
-     (i32.mul
-      (i32.and
-       (get_local $2)
-       (i32.load offset=4
-        (get_local $0)
-       )
+     (br $repeat|2)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<i32,i32>#get:size
+       (get_local $0)
       )
-      (get_global $~lib/map/BUCKET_SIZE)
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 32)
+      (i32.const 2)
      )
+     (unreachable)
     )
    )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (get_local $3)
+   (block $break|3
+    (set_local $1
+     (i32.const 0)
+    )
+    (loop $repeat|3
+     (br_if $break|3
+      (i32.eqz
+       (i32.lt_s
+        (get_local $1)
+        (i32.const 50)
+       )
+      )
+     )
      (block
-      (block
-       (if
-        (if (result i32)
-         (tee_local $4
-          (i32.eqz
-           (i32.and
-            (i32.load offset=12
-             (get_local $3)
-            )
-            (get_global $~lib/map/EMPTY)
-           )
-          )
-         )
-         (i64.eq
-          (i64.load
-           (get_local $3)
-          )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<i32,i32>#has
+          (get_local $0)
           (get_local $1)
          )
-         (get_local $4)
         )
-        (return
-         (get_local $3)
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 36)
+         (i32.const 4)
         )
+        (unreachable)
        )
-       (set_local $3
-        (i32.and
-         (i32.load offset=12
-          (get_local $3)
-         )
-         (i32.xor
-          (get_global $~lib/map/EMPTY)
-          (i32.const -1)
+      )
+      (call $~lib/map/Map<i32,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 10)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<i32,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 38)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/map/Map<i32,i32>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<i32,i32>#has
+          (get_local $0)
+          (get_local $1)
          )
         )
        )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 40)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
-      (br $continue|0)
      )
-    )
-   )
-  )
-  (i32.const 0)
- )
- (func $~lib/map/Map<u64,i32>#has (; 84 ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
-  (i32.ne
-   (call $~lib/map/Map<u64,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<u64>|inlined.0 (result i32)
-     (br $~lib/internal/hash/hash<u64>|inlined.0
-      (call $~lib/internal/hash/hash64
+     (set_local $1
+      (i32.add
        (get_local $1)
+       (i32.const 1)
       )
      )
+     (br $repeat|3)
     )
    )
-   (i32.const 0)
-  )
- )
- (func $~lib/map/Map<u64,i32>#rehash (; 85 ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (local $9 i32)
-  (local $10 i32)
-  (local $11 i64)
-  (local $12 i32)
-  (local $13 i32)
-  (set_local $2
-   (i32.add
-    (get_local $1)
-    (i32.const 1)
-   )
-  )
-  (set_local $3
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $2)
-     (get_global $~lib/map/BUCKET_SIZE)
-    )
-    (i32.const 0)
-   )
-  )
-  (set_local $4
-   (i32.trunc_s/f64
-    (f64.mul
-     (f64.convert_s/i32
-      (get_local $2)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<i32,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
      )
-     (get_global $~lib/map/FILL_FACTOR)
     )
-   )
-  )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $4)
-     (block $~lib/map/ENTRY_SIZE<u64,i32>|inlined.1 (result i32)
-      (i32.const 16)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 42)
+      (i32.const 2)
      )
+     (unreachable)
     )
-    (i32.const 1)
    )
-  )
-  (set_local $6
-   (i32.add
-    (i32.load offset=8
-     (get_local $0)
-    )
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   (i32.store offset=4
+    (get_local $2)
+    (i32.const 0)
    )
-  )
-  (set_local $7
-   (i32.add
-    (get_local $6)
-    (i32.mul
-     (i32.load offset=16
-      (get_local $0)
-     )
-     (block $~lib/map/ENTRY_SIZE<u64,i32>|inlined.2 (result i32)
-      (i32.const 16)
+   (block $break|4
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<i32>#__iterator
+      (call $~lib/map/Map<i32,i32>#keys
+       (get_local $0)
+      )
      )
     )
-   )
-  )
-  (set_local $8
-   (i32.add
-    (get_local $5)
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
-   )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (i32.ne
-      (get_local $6)
-      (get_local $7)
+    (loop $repeat|4
+     (br_if $break|4
+      (call $~lib/iterator/Iterator<i32>#get:done|virtual
+       (get_local $1)
+      )
      )
      (block
       (block
-       (set_local $9
-        (get_local $6)
-       )
-       (if
-        (i32.eqz
-         (i32.and
-          (i32.load offset=12
-           (get_local $9)
-          )
-          (get_global $~lib/map/EMPTY)
-         )
+       (set_local $5
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
         )
-        (block
-         (set_local $10
-          (get_local $8)
-         )
-         (i64.store
-          (get_local $10)
-          (i64.load
-           (get_local $9)
+       )
+       (i32.store
+        (get_local $5)
+        (get_local $2)
+       )
+       (i32.store offset=4
+        (get_local $5)
+        (i32.const 0)
+       )
+      )
+      (i32.store offset=4
+       (get_local $5)
+       (call $~lib/iterator/Iterator<i32>#next|virtual
+        (get_local $1)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $6
+          (i32.ge_s
+           (i32.load offset=4
+            (get_local $5)
+           )
+           (i32.const 50)
           )
          )
-         (i32.store offset=8
-          (get_local $10)
-          (i32.load offset=8
-           (get_local $9)
+         (i32.lt_s
+          (i32.load offset=4
+           (get_local $5)
           )
+          (i32.const 100)
          )
-         (set_local $12
-          (i32.and
-           (block $~lib/internal/hash/hash<u64>|inlined.2 (result i32)
-            (set_local $11
-             (i64.load
-              (get_local $9)
-             )
-            )
-            (br $~lib/internal/hash/hash<u64>|inlined.2
-             (call $~lib/internal/hash/hash64
-              (get_local $11)
-             )
-            )
-           )
-           (get_local $1)
-          )
-         )
-         (set_local $13
-          (i32.add
-           (get_local $3)
-           (i32.mul
-            (get_local $12)
-            (get_global $~lib/map/BUCKET_SIZE)
-           )
-          )
-         )
-         (i32.store offset=12
-          (get_local $10)
-          (i32.load offset=8
-           (get_local $13)
+         (get_local $6)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 47)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<i32,i32>#get
+          (get_local $0)
+          (i32.load offset=4
+           (get_local $5)
           )
          )
-         (i32.store offset=8
-          (get_local $13)
-          (get_local $8)
-         )
-         (set_local $8
-          (i32.add
-           (get_local $8)
-           (block $~lib/map/ENTRY_SIZE<u64,i32>|inlined.3 (result i32)
-            (i32.const 16)
-           )
+         (i32.add
+          (i32.const 20)
+          (i32.load offset=4
+           (get_local $5)
           )
          )
         )
        )
-       (set_local $6
-        (i32.add
-         (get_local $6)
-         (block $~lib/map/ENTRY_SIZE<u64,i32>|inlined.4 (result i32)
-          (i32.const 16)
-         )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 48)
+         (i32.const 4)
         )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
       )
-      (br $continue|0)
      )
+     (br $repeat|4)
     )
    )
-  )
-  (i32.store
-   (get_local $0)
-   (get_local $3)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $4)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
-   )
-  )
- )
- (func $~lib/map/Map<u64,i32>#set (; 86 ;) (type $iIiv) (param $0 i32) (param $1 i64) (param $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (set_local $3
-   (block $~lib/internal/hash/hash<u64>|inlined.1 (result i32)
-    (br $~lib/internal/hash/hash<u64>|inlined.1
-     (call $~lib/internal/hash/hash64
-      (get_local $1)
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
      )
     )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 51)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
    )
-  )
-  (set_local $4
-   (call $~lib/map/Map<u64,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (get_local $3)
-   )
-  )
-  (if
-   (get_local $4)
-   (i32.store offset=8
-    (get_local $4)
-    (get_local $2)
-   )
-   (block
-    (if
-     (i32.eq
-      (i32.load offset=16
+   (block $break|5
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<i32>#__iterator
+      (call $~lib/map/Map<i32,i32>#values
        (get_local $0)
       )
-      (i32.load offset=12
-       (get_local $0)
+     )
+    )
+    (loop $repeat|5
+     (br_if $break|5
+      (call $~lib/iterator/Iterator<i32>#get:done|virtual
+       (get_local $1)
       )
      )
-     (call $~lib/map/Map<u64,i32>#rehash
-      (get_local $0)
-      (if (result i32)
-       (i32.lt_s
-        (i32.load offset=20
-         (get_local $0)
+     (block
+      (block
+       (set_local $8
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
         )
-        (i32.trunc_s/f64
-         (f64.mul
-          (f64.convert_s/i32
-           (i32.load offset=12
-            (get_local $0)
+       )
+       (i32.store
+        (get_local $8)
+        (get_local $2)
+       )
+       (i32.store offset=4
+        (get_local $8)
+        (i32.const 0)
+       )
+      )
+      (i32.store offset=4
+       (get_local $8)
+       (call $~lib/iterator/Iterator<i32>#next|virtual
+        (get_local $1)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $6
+          (i32.ge_s
+           (i32.load offset=4
+            (get_local $8)
            )
+           (i32.const 70)
           )
-          (get_global $~lib/map/FREE_FACTOR)
          )
+         (i32.lt_s
+          (i32.load offset=4
+           (get_local $8)
+          )
+          (i32.const 120)
+         )
+         (get_local $6)
         )
        )
-       (i32.load offset=4
-        (get_local $0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 53)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (i32.or
-        (i32.shl
-         (i32.load offset=4
-          (get_local $0)
-         )
-         (i32.const 1)
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
         )
         (i32.const 1)
        )
       )
      )
+     (br $repeat|5)
     )
-    (set_local $5
-     (i32.load offset=8
-      (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
      )
     )
-    (set_local $4
-     (i32.add
-      (i32.add
-       (get_local $5)
-       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 56)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|6
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<KeyValue<i32,i32>>#__iterator
+      (call $~lib/map/Map<i32,i32>#entries
+       (get_local $0)
       )
-      (i32.mul
-       (block (result i32)
-        (set_local $6
-         (i32.load offset=16
-          (get_local $0)
+     )
+    )
+    (loop $repeat|6
+     (br_if $break|6
+      (call $~lib/iterator/Iterator<KeyValue<i32,i32>>#get:done|virtual
+       (get_local $1)
+      )
+     )
+     (set_local $6
+      (call $~lib/iterator/Iterator<KeyValue<i32,i32>>#next|virtual
+       (get_local $1)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load offset=4
+          (get_local $6)
          )
-        )
-        (i32.store offset=16
-         (get_local $0)
          (i32.add
-          (get_local $6)
-          (i32.const 1)
+          (i32.const 20)
+          (i32.load
+           (get_local $6)
+          )
          )
         )
-        (get_local $6)
        )
-       (block $~lib/map/ENTRY_SIZE<u64,i32>|inlined.5 (result i32)
-        (i32.const 16)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 58)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
       )
      )
+     (br $repeat|6)
     )
-    (i64.store
-     (get_local $4)
-     (get_local $1)
-    )
-    (i32.store offset=8
-     (get_local $4)
-     (get_local $2)
-    )
-    (i32.store offset=20
-     (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
       )
-      (i32.const 1)
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 61)
+      (i32.const 2)
      )
+     (unreachable)
     )
+   )
+   (block $break|7
     (set_local $6
-     (i32.add
-      (i32.load
-       (get_local $0)
+     (call $~lib/map/Map<i32,i32>#__iterator
+      (get_local $0)
+     )
+    )
+    (loop $repeat|7
+     (br_if $break|7
+      (call $~lib/iterator/Iterator<KeyValue<i32,i32>>#get:done|virtual
+       (get_local $6)
       )
-      (i32.mul
-       (i32.and
-        (get_local $3)
+     )
+     (set_local $1
+      (call $~lib/iterator/Iterator<KeyValue<i32,i32>>#next|virtual
+       (get_local $6)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load offset=4
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.load
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 63)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
         (i32.load offset=4
-         (get_local $0)
+         (get_local $2)
         )
+        (i32.const 1)
        )
-       (get_global $~lib/map/BUCKET_SIZE)
       )
      )
+     (br $repeat|7)
     )
-    (i32.store offset=12
-     (get_local $4)
-     (i32.load offset=8
-      (get_local $6)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
      )
     )
-    (i32.store offset=8
-     (get_local $6)
-     (get_local $4)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 66)
+      (i32.const 2)
+     )
+     (unreachable)
     )
    )
-  )
- )
- (func $~lib/map/Map<u64,i32>#get (; 87 ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
-  (local $2 i32)
-  (set_local $2
-   (call $~lib/map/Map<u64,i32>#find
+   (call $~lib/map/Map<i32,i32>#forEach
     (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<u64>|inlined.3 (result i32)
-     (br $~lib/internal/hash/hash<u64>|inlined.3
-      (call $~lib/internal/hash/hash64
-       (get_local $1)
+    (block (result i32)
+     (set_local $1
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
       )
      )
+     (i32.store
+      (get_local $1)
+      (i32.const 4)
+     )
+     (i32.store offset=4
+      (get_local $1)
+      (get_local $2)
+     )
+     (get_local $1)
     )
    )
-  )
-  (if (result i32)
-   (get_local $2)
-   (i32.load offset=8
-    (get_local $2)
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 71)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
    )
-   (unreachable)
-  )
- )
- (func $~lib/map/Map<u64,i32>#get:size (; 88 ;) (type $ii) (param $0 i32) (result i32)
-  (i32.load offset=20
-   (get_local $0)
-  )
- )
- (func $~lib/map/Map<u64,i32>#delete (; 89 ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (set_local $2
-   (call $~lib/map/Map<u64,i32>#find
+   (call $~lib/map/Map<i32,i32>#clear
     (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<u64>|inlined.4 (result i32)
-     (br $~lib/internal/hash/hash<u64>|inlined.4
-      (call $~lib/internal/hash/hash64
-       (get_local $1)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<i32,i32>#get:size
+       (get_local $0)
       )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 75)
+      (i32.const 2)
      )
+     (unreachable)
     )
    )
   )
-  (if
-   (i32.eqz
-    (get_local $2)
-   )
-   (return
+ )
+ (func $~lib/map/Map<u32,i32>#clear (; 100 ;) (type $iv) (param $0 i32)
+  (i32.store
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 16)
     (i32.const 0)
    )
   )
-  (i32.store offset=12
-   (get_local $2)
-   (i32.or
-    (i32.load offset=12
-     (get_local $2)
-    )
-    (get_global $~lib/map/EMPTY)
-   )
-  )
-  (i32.store offset=20
+  (i32.store offset=4
    (get_local $0)
    (i32.sub
-    (i32.load offset=20
-     (get_local $0)
-    )
+    (get_global $~lib/map/INITIAL_CAPACITY)
     (i32.const 1)
    )
   )
-  (set_local $3
-   (i32.shr_u
-    (i32.load offset=4
-     (get_local $0)
-    )
+  (i32.store offset=8
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 48)
     (i32.const 1)
    )
   )
-  (if
-   (if (result i32)
-    (tee_local $4
-     (i32.ge_u
-      (i32.add
-       (get_local $3)
-       (i32.const 1)
-      )
-      (select
-       (tee_local $4
-        (get_global $~lib/map/INITIAL_CAPACITY)
-       )
-       (tee_local $5
-        (i32.load offset=20
-         (get_local $0)
+  (i32.store offset=12
+   (get_local $0)
+   (get_global $~lib/map/INITIAL_CAPACITY)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/map/Map<u32,i32>#constructor (; 101 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/map/Map<u32,i32>#clear
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $1
+        (call $~lib/memory/memory.allocate
+         (i32.const 24)
         )
        )
-       (i32.gt_u
-        (get_local $4)
-        (get_local $5)
+       (i32.store
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=8
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=12
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=16
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=20
+        (get_local $1)
+        (i32.const 0)
        )
+       (get_local $1)
       )
      )
     )
-    (i32.lt_s
-     (i32.load offset=20
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/map/Map<u32,i32>#find (; 102 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load offset=8
+    (i32.add
+     (i32.load
       (get_local $0)
      )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $0)
-        )
+     (i32.mul
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
        )
-       (get_global $~lib/map/FREE_FACTOR)
       )
+      (get_global $~lib/map/BUCKET_SIZE)
      )
     )
-    (get_local $4)
-   )
-   (call $~lib/map/Map<u64,i32>#rehash
-    (get_local $0)
-    (get_local $3)
-   )
-  )
-  (i32.const 1)
- )
- (func $std/map/test<u64,i32> (; 90 ;) (type $v)
-  (local $0 i32)
-  (local $1 i64)
-  (set_local $0
-   (call $~lib/map/Map<u64,i32>#constructor
-    (i32.const 0)
    )
   )
   (block $break|0
-   (set_local $1
-    (i64.const 0)
-   )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (i64.lt_u
-       (get_local $1)
-       (i64.const 100)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<u64,i32>#has
-         (get_local $0)
-         (get_local $1)
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 8)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/map/Map<u64,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 10)
-       (i32.wrap/i64
-        (get_local $1)
-       )
-      )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<u64,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
+   (loop $continue|0
+    (if
+     (get_local $3)
+     (block
       (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 10)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<u64,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 10)
-         (i32.wrap/i64
+       (if
+        (if (result i32)
+         (tee_local $4
+          (i32.eqz
+           (i32.and
+            (i32.load offset=8
+             (get_local $3)
+            )
+            (get_global $~lib/map/EMPTY)
+           )
+          )
+         )
+         (i32.eq
+          (i32.load
+           (get_local $3)
+          )
           (get_local $1)
          )
+         (get_local $4)
+        )
+        (return
+         (get_local $3)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 11)
-        (i32.const 4)
+       (set_local $3
+        (i32.and
+         (i32.load offset=8
+          (get_local $3)
+         )
+         (i32.xor
+          (get_global $~lib/map/EMPTY)
+          (i32.const -1)
+         )
+        )
        )
-       (unreachable)
       )
+      (br $continue|0)
      )
     )
-    (set_local $1
-     (i64.add
-      (get_local $1)
-      (i64.const 1)
-     )
-    )
-    (br $repeat|0)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<u64,i32>#get:size
-      (get_local $0)
+  (i32.const 0)
+ )
+ (func $~lib/map/Map<u32,i32>#has (; 103 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.ne
+   (call $~lib/map/Map<u32,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<u32>|inlined.0 (result i32)
+     (br $~lib/internal/hash/hash<u32>|inlined.0
+      (call $~lib/internal/hash/hash32
+       (get_local $1)
+      )
      )
-     (i32.const 100)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 13)
-     (i32.const 2)
-    )
-    (unreachable)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/map/Map<u32,i32>#rehash (; 104 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (set_local $2
+   (i32.add
+    (get_local $1)
+    (i32.const 1)
    )
   )
-  (block $break|1
-   (set_local $1
-    (i64.const 0)
+  (set_local $3
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $2)
+     (get_global $~lib/map/BUCKET_SIZE)
+    )
+    (i32.const 0)
    )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.eqz
-      (i64.lt_u
-       (get_local $1)
-       (i64.const 100)
-      )
+  )
+  (set_local $4
+   (i32.trunc_s/f64
+    (f64.mul
+     (f64.convert_s/i32
+      (get_local $2)
      )
+     (get_global $~lib/map/FILL_FACTOR)
     )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<u64,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 17)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<u64,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 10)
-         (i32.wrap/i64
-          (get_local $1)
-         )
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 18)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/map/Map<u64,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 20)
-       (i32.wrap/i64
-        (get_local $1)
-       )
-      )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<u64,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 20)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<u64,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 20)
-         (i32.wrap/i64
-          (get_local $1)
-         )
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 21)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
+   )
+  )
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $4)
+     (block $~lib/map/ENTRY_SIZE<u32,i32>|inlined.1 (result i32)
+      (i32.const 12)
      )
     )
-    (set_local $1
-     (i64.add
-      (get_local $1)
-      (i64.const 1)
-     )
+    (i32.const 1)
+   )
+  )
+  (set_local $6
+   (i32.add
+    (i32.load offset=8
+     (get_local $0)
     )
-    (br $repeat|1)
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<u64,i32>#get:size
+  (set_local $7
+   (i32.add
+    (get_local $6)
+    (i32.mul
+     (i32.load offset=16
       (get_local $0)
      )
-     (i32.const 100)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 23)
-     (i32.const 2)
+     (block $~lib/map/ENTRY_SIZE<u32,i32>|inlined.2 (result i32)
+      (i32.const 12)
+     )
     )
-    (unreachable)
    )
   )
-  (block $break|2
-   (set_local $1
-    (i64.const 0)
-   )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (i64.lt_u
-       (get_local $1)
-       (i64.const 50)
-      )
+  (set_local $8
+   (i32.add
+    (get_local $5)
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.ne
+      (get_local $6)
+      (get_local $7)
      )
-    )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<u64,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
+     (block
       (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 27)
-        (i32.const 4)
+       (set_local $9
+        (get_local $6)
        )
-       (unreachable)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<u64,i32>#get
-         (get_local $0)
-         (get_local $1)
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $9)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
         )
-        (i32.add
-         (i32.const 20)
-         (i32.wrap/i64
-          (get_local $1)
+        (block
+         (set_local $10
+          (get_local $8)
+         )
+         (i32.store
+          (get_local $10)
+          (i32.load
+           (get_local $9)
+          )
+         )
+         (i32.store offset=4
+          (get_local $10)
+          (i32.load offset=4
+           (get_local $9)
+          )
+         )
+         (set_local $11
+          (i32.and
+           (block $~lib/internal/hash/hash<u32>|inlined.2 (result i32)
+            (set_local $11
+             (i32.load
+              (get_local $9)
+             )
+            )
+            (br $~lib/internal/hash/hash<u32>|inlined.2
+             (call $~lib/internal/hash/hash32
+              (get_local $11)
+             )
+            )
+           )
+           (get_local $1)
+          )
+         )
+         (set_local $12
+          (i32.add
+           (get_local $3)
+           (i32.mul
+            (get_local $11)
+            (get_global $~lib/map/BUCKET_SIZE)
+           )
+          )
+         )
+         (i32.store offset=8
+          (get_local $10)
+          (i32.load offset=8
+           (get_local $12)
+          )
+         )
+         (i32.store offset=8
+          (get_local $12)
+          (get_local $8)
+         )
+         (set_local $8
+          (i32.add
+           (get_local $8)
+           (block $~lib/map/ENTRY_SIZE<u32,i32>|inlined.3 (result i32)
+            (i32.const 12)
+           )
+          )
          )
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 28)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (drop
-      (call $~lib/map/Map<u64,i32>#delete
-       (get_local $0)
-       (get_local $1)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<u64,i32>#has
-         (get_local $0)
-         (get_local $1)
+       (set_local $6
+        (i32.add
+         (get_local $6)
+         (block $~lib/map/ENTRY_SIZE<u32,i32>|inlined.4 (result i32)
+          (i32.const 12)
+         )
         )
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 30)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-    )
-    (set_local $1
-     (i64.add
-      (get_local $1)
-      (i64.const 1)
+      (br $continue|0)
      )
     )
-    (br $repeat|2)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<u64,i32>#get:size
-      (get_local $0)
+  (i32.store
+   (get_local $0)
+   (get_local $3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/Map<u32,i32>#set (; 105 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $3
+   (block $~lib/internal/hash/hash<u32>|inlined.1 (result i32)
+    (br $~lib/internal/hash/hash<u32>|inlined.1
+     (call $~lib/internal/hash/hash32
+      (get_local $1)
      )
-     (i32.const 50)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 32)
-     (i32.const 2)
-    )
-    (unreachable)
+  )
+  (set_local $4
+   (call $~lib/map/Map<u32,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (get_local $3)
    )
   )
-  (block $break|3
-   (set_local $1
-    (i64.const 0)
+  (if
+   (get_local $4)
+   (i32.store offset=4
+    (get_local $4)
+    (get_local $2)
    )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (i64.lt_u
-       (get_local $1)
-       (i64.const 50)
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
       )
      )
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<u64,i32>#has
+     (call $~lib/map/Map<u32,i32>#rehash
+      (get_local $0)
+      (if (result i32)
+       (i32.lt_s
+        (i32.load offset=20
          (get_local $0)
-         (get_local $1)
+        )
+        (i32.trunc_s/f64
+         (f64.mul
+          (f64.convert_s/i32
+           (i32.load offset=12
+            (get_local $0)
+           )
+          )
+          (get_global $~lib/map/FREE_FACTOR)
+         )
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 36)
-        (i32.const 4)
+       (i32.load offset=4
+        (get_local $0)
+       )
+       (i32.or
+        (i32.shl
+         (i32.load offset=4
+          (get_local $0)
+         )
+         (i32.const 1)
+        )
+        (i32.const 1)
        )
-       (unreachable)
       )
      )
-     (call $~lib/map/Map<u64,i32>#set
+    )
+    (set_local $5
+     (i32.load offset=8
       (get_local $0)
-      (get_local $1)
+     )
+    )
+    (set_local $4
+     (i32.add
       (i32.add
-       (i32.const 10)
-       (i32.wrap/i64
-        (get_local $1)
-       )
+       (get_local $5)
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
       )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<u64,i32>#has
-        (get_local $0)
-        (get_local $1)
+      (i32.mul
+       (block (result i32)
+        (set_local $6
+         (i32.load offset=16
+          (get_local $0)
+         )
+        )
+        (i32.store offset=16
+         (get_local $0)
+         (i32.add
+          (get_local $6)
+          (i32.const 1)
+         )
+        )
+        (get_local $6)
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 38)
-        (i32.const 4)
+       (block $~lib/map/ENTRY_SIZE<u32,i32>|inlined.5 (result i32)
+        (i32.const 12)
        )
-       (unreachable)
       )
      )
-     (drop
-      (call $~lib/map/Map<u64,i32>#delete
+    )
+    (i32.store
+     (get_local $4)
+     (get_local $1)
+    )
+    (i32.store offset=4
+     (get_local $4)
+     (get_local $2)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
        (get_local $0)
-       (get_local $1)
       )
+      (i32.const 1)
      )
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<u64,i32>#has
+    )
+    (set_local $6
+     (i32.add
+      (i32.load
+       (get_local $0)
+      )
+      (i32.mul
+       (i32.and
+        (get_local $3)
+        (i32.load offset=4
          (get_local $0)
-         (get_local $1)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 40)
-        (i32.const 4)
-       )
-       (unreachable)
+       (get_global $~lib/map/BUCKET_SIZE)
       )
      )
     )
-    (set_local $1
-     (i64.add
-      (get_local $1)
-      (i64.const 1)
+    (i32.store offset=8
+     (get_local $4)
+     (i32.load offset=8
+      (get_local $6)
      )
     )
-    (br $repeat|3)
+    (i32.store offset=8
+     (get_local $6)
+     (get_local $4)
+    )
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<u64,i32>#get:size
-      (get_local $0)
+ )
+ (func $~lib/map/Map<u32,i32>#get (; 106 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (call $~lib/map/Map<u32,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<u32>|inlined.3 (result i32)
+     (br $~lib/internal/hash/hash<u32>|inlined.3
+      (call $~lib/internal/hash/hash32
+       (get_local $1)
+      )
      )
-     (i32.const 50)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
-    )
-    (unreachable)
+  )
+  (if (result i32)
+   (get_local $2)
+   (i32.load offset=4
+    (get_local $2)
    )
+   (unreachable)
   )
-  (call $~lib/map/Map<u64,i32>#clear
+ )
+ (func $~lib/map/Map<u32,i32>#get:size (; 107 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=20
    (get_local $0)
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<u64,i32>#get:size
-      (get_local $0)
+ )
+ (func $~lib/map/Map<u32,i32>#delete (; 108 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (call $~lib/map/Map<u32,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<u32>|inlined.4 (result i32)
+     (br $~lib/internal/hash/hash<u32>|inlined.4
+      (call $~lib/internal/hash/hash32
+       (get_local $1)
+      )
      )
-     (i32.const 0)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 46)
-     (i32.const 2)
     )
-    (unreachable)
    )
   )
- )
- (func $~lib/map/Map<f32,i32>#clear (; 91 ;) (type $iv) (param $0 i32)
-  (i32.store
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 16)
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return
     (i32.const 0)
    )
   )
-  (i32.store offset=4
+  (i32.store offset=8
+   (get_local $2)
+   (i32.or
+    (i32.load offset=8
+     (get_local $2)
+    )
+    (get_global $~lib/map/EMPTY)
+   )
+  )
+  (i32.store offset=20
    (get_local $0)
    (i32.sub
-    (get_global $~lib/map/INITIAL_CAPACITY)
+    (i32.load offset=20
+     (get_local $0)
+    )
     (i32.const 1)
    )
   )
-  (i32.store offset=8
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 48)
+  (set_local $3
+   (i32.shr_u
+    (i32.load offset=4
+     (get_local $0)
+    )
     (i32.const 1)
    )
   )
-  (i32.store offset=12
-   (get_local $0)
-   (get_global $~lib/map/INITIAL_CAPACITY)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.const 0)
-  )
- )
- (func $~lib/map/Map<f32,i32>#constructor (; 92 ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (call $~lib/map/Map<f32,i32>#clear
-   (tee_local $0
-    (if (result i32)
-     (get_local $0)
-     (get_local $0)
-     (tee_local $0
-      (block (result i32)
-       (set_local $1
-        (call $~lib/memory/memory.allocate
-         (i32.const 24)
-        )
-       )
-       (i32.store
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=4
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=8
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=12
-        (get_local $1)
-        (i32.const 0)
+  (if
+   (if (result i32)
+    (tee_local $4
+     (i32.ge_u
+      (i32.add
+       (get_local $3)
+       (i32.const 1)
+      )
+      (select
+       (tee_local $4
+        (get_global $~lib/map/INITIAL_CAPACITY)
        )
-       (i32.store offset=16
-        (get_local $1)
-        (i32.const 0)
+       (tee_local $5
+        (i32.load offset=20
+         (get_local $0)
+        )
        )
-       (i32.store offset=20
-        (get_local $1)
-        (i32.const 0)
+       (i32.gt_u
+        (get_local $4)
+        (get_local $5)
        )
-       (get_local $1)
       )
      )
     )
-   )
-  )
-  (get_local $0)
- )
- (func $~lib/map/Map<f32,i32>#find (; 93 ;) (type $ifii) (param $0 i32) (param $1 f32) (param $2 i32) (result i32)
-  (local $3 i32)
-  (local $4 i32)
-  (set_local $3
-   (i32.load offset=8
-    (i32.add
-     (i32.load
+    (i32.lt_s
+     (i32.load offset=20
       (get_local $0)
      )
-     (i32.mul
-      (i32.and
-       (get_local $2)
-       (i32.load offset=4
-        (get_local $0)
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $0)
+        )
        )
+       (get_global $~lib/map/FREE_FACTOR)
       )
-      (get_global $~lib/map/BUCKET_SIZE)
      )
     )
+    (get_local $4)
+   )
+   (call $~lib/map/Map<u32,i32>#rehash
+    (get_local $0)
+    (get_local $3)
    )
   )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (get_local $3)
-     (block
-      (block
-       (if
-        (if (result i32)
-         (tee_local $4
-          (i32.eqz
-           (i32.and
-            (i32.load offset=8
-             (get_local $3)
-            )
-            (get_global $~lib/map/EMPTY)
-           )
-          )
-         )
-         (f32.eq
-          (f32.load
-           (get_local $3)
+  (i32.const 1)
+ )
+ (func $~lib/map/Map<u32,i32>#keys (; 109 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
           )
-          (get_local $1)
-         )
-         (get_local $4)
-        )
-        (return
-         (get_local $3)
-        )
-       )
-       (set_local $3
-        (i32.and
-         (i32.load offset=8
-          (get_local $3)
-         )
-         (i32.xor
-          (get_global $~lib/map/EMPTY)
-          (i32.const -1)
+          (i32.const 8)
          )
         )
+        (i32.const 4)
        )
+       (i32.const 73)
       )
-      (br $continue|0)
+      (get_local $2)
      )
     )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
    )
   )
-  (i32.const 0)
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
  )
- (func $~lib/map/Map<f32,i32>#has (; 94 ;) (type $ifi) (param $0 i32) (param $1 f32) (result i32)
-  (i32.ne
-   (call $~lib/map/Map<f32,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<f32>|inlined.0 (result i32)
-     (br $~lib/internal/hash/hash<f32>|inlined.0
-      (call $~lib/internal/hash/hash32
-       (i32.reinterpret/f32
-        (get_local $1)
+ (func $~lib/iterator/IterableIterator<u32>#__iterator (; 110 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/map/Map<u32,i32>#values (; 111 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
        )
+       (i32.const 75)
       )
+      (get_local $2)
      )
     )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
    )
-   (i32.const 0)
   )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
  )
- (func $~lib/map/Map<f32,i32>#rehash (; 95 ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/map/Map<u32,i32>#entries (; 112 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
   (local $2 i32)
   (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (local $9 i32)
-  (local $10 i32)
-  (local $11 f32)
-  (local $12 i32)
-  (local $13 i32)
-  (set_local $2
-   (i32.add
-    (get_local $1)
-    (i32.const 1)
-   )
-  )
   (set_local $3
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $2)
-     (get_global $~lib/map/BUCKET_SIZE)
-    )
-    (i32.const 0)
-   )
-  )
-  (set_local $4
-   (i32.trunc_s/f64
-    (f64.mul
-     (f64.convert_s/i32
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 80)
+      )
       (get_local $2)
      )
-     (get_global $~lib/map/FILL_FACTOR)
     )
-   )
-  )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $4)
-     (block $~lib/map/ENTRY_SIZE<f32,i32>|inlined.1 (result i32)
-      (i32.const 12)
-     )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
     )
-    (i32.const 1)
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
    )
   )
-  (set_local $6
-   (i32.add
-    (i32.load offset=8
-     (get_local $0)
-    )
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<KeyValue<u32,i32>>#__iterator (; 113 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/map/Map<u32,i32>#__iterator (; 114 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/map/Map<u32,i32>#entries
+   (get_local $0)
+  )
+ )
+ (func $std/map/test<u32,i32>~anonymous|5 (; 115 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
    )
   )
-  (set_local $7
-   (i32.add
-    (get_local $6)
-    (i32.mul
-     (i32.load offset=16
+  (block
+   (if
+    (i32.eqz
+     (i32.eq
       (get_local $0)
+      (i32.add
+       (i32.const 20)
+       (get_local $1)
+      )
      )
-     (block $~lib/map/ENTRY_SIZE<f32,i32>|inlined.2 (result i32)
-      (i32.const 12)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 68)
+      (i32.const 4)
      )
+     (unreachable)
     )
    )
-  )
-  (set_local $8
-   (i32.add
-    (get_local $5)
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   (i32.store offset=4
+    (get_local $3)
+    (i32.add
+     (i32.load offset=4
+      (get_local $3)
+     )
+     (i32.const 1)
+    )
    )
   )
+ )
+ (func $~lib/map/Map<u32,i32>#forEach (; 116 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
   (block $break|0
-   (loop $continue|0
-    (if
-     (i32.ne
-      (get_local $6)
-      (get_local $7)
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $2)
+       (i32.load offset=16
+        (get_local $0)
+       )
+      )
      )
-     (block
-      (block
-       (set_local $9
-        (get_local $6)
+    )
+    (block
+     (set_local $3
+      (i32.add
+       (i32.add
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
        )
-       (if
-        (i32.eqz
-         (i32.and
-          (i32.load offset=8
-           (get_local $9)
-          )
-          (get_global $~lib/map/EMPTY)
-         )
+       (i32.mul
+        (get_local $2)
+        (block $~lib/map/ENTRY_SIZE<u32,i32>|inlined.6 (result i32)
+         (i32.const 12)
         )
-        (block
-         (set_local $10
-          (get_local $8)
-         )
-         (f32.store
-          (get_local $10)
-          (f32.load
-           (get_local $9)
-          )
-         )
-         (i32.store offset=4
-          (get_local $10)
-          (i32.load offset=4
-           (get_local $9)
-          )
-         )
-         (set_local $12
-          (i32.and
-           (block $~lib/internal/hash/hash<f32>|inlined.2 (result i32)
-            (set_local $11
-             (f32.load
-              (get_local $9)
-             )
-            )
-            (br $~lib/internal/hash/hash<f32>|inlined.2
-             (call $~lib/internal/hash/hash32
-              (i32.reinterpret/f32
-               (get_local $11)
-              )
-             )
-            )
-           )
-           (get_local $1)
-          )
-         )
-         (set_local $13
-          (i32.add
-           (get_local $3)
-           (i32.mul
-            (get_local $12)
-            (get_global $~lib/map/BUCKET_SIZE)
-           )
-          )
-         )
-         (i32.store offset=8
-          (get_local $10)
-          (i32.load offset=8
-           (get_local $13)
-          )
-         )
-         (i32.store offset=8
-          (get_local $13)
-          (get_local $8)
-         )
-         (set_local $8
-          (i32.add
-           (get_local $8)
-           (block $~lib/map/ENTRY_SIZE<f32,i32>|inlined.3 (result i32)
-            (i32.const 12)
-           )
-          )
-         )
+       )
+      )
+     )
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=8
+         (get_local $3)
         )
+        (get_global $~lib/map/EMPTY)
        )
-       (set_local $6
-        (i32.add
-         (get_local $6)
-         (block $~lib/map/ENTRY_SIZE<f32,i32>|inlined.4 (result i32)
-          (i32.const 12)
+      )
+      (block
+       (set_global $~argc
+        (i32.const 3)
+       )
+       (call_indirect (type $iiiv)
+        (i32.load offset=4
+         (get_local $3)
+        )
+        (i32.load
+         (get_local $3)
+        )
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (get_local $1)
+         )
+         (i32.load
+          (get_global $~env)
          )
         )
        )
       )
-      (br $continue|0)
      )
     )
-   )
-  )
-  (i32.store
-   (get_local $0)
-   (get_local $3)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $4)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
    )
   )
  )
- (func $~lib/map/Map<f32,i32>#set (; 96 ;) (type $ifiv) (param $0 i32) (param $1 f32) (param $2 i32)
+ (func $std/map/test<u32,i32> (; 117 ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
   (local $6 i32)
-  (set_local $3
-   (block $~lib/internal/hash/hash<f32>|inlined.1 (result i32)
-    (br $~lib/internal/hash/hash<f32>|inlined.1
-     (call $~lib/internal/hash/hash32
-      (i32.reinterpret/f32
-       (get_local $1)
-      )
-     )
-    )
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $2
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
    )
   )
-  (set_local $4
-   (call $~lib/map/Map<f32,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (get_local $3)
-   )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
   )
-  (if
-   (get_local $4)
-   (i32.store offset=4
-    (get_local $4)
-    (get_local $2)
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block
+   (set_local $0
+    (call $~lib/map/Map<u32,i32>#constructor
+     (i32.const 0)
+    )
    )
-   (block
-    (if
-     (i32.eq
-      (i32.load offset=16
-       (get_local $0)
-      )
-      (i32.load offset=12
-       (get_local $0)
+   (block $break|0
+    (set_local $1
+     (i32.const 0)
+    )
+    (loop $repeat|0
+     (br_if $break|0
+      (i32.eqz
+       (i32.lt_u
+        (get_local $1)
+        (i32.const 100)
+       )
       )
      )
-     (call $~lib/map/Map<f32,i32>#rehash
-      (get_local $0)
-      (if (result i32)
-       (i32.lt_s
-        (i32.load offset=20
-         (get_local $0)
-        )
-        (i32.trunc_s/f64
-         (f64.mul
-          (f64.convert_s/i32
-           (i32.load offset=12
-            (get_local $0)
-           )
-          )
-          (get_global $~lib/map/FREE_FACTOR)
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<u32,i32>#has
+          (get_local $0)
+          (get_local $1)
          )
         )
        )
-       (i32.load offset=4
-        (get_local $0)
-       )
-       (i32.or
-        (i32.shl
-         (i32.load offset=4
-          (get_local $0)
-         )
-         (i32.const 1)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 8)
+         (i32.const 4)
         )
-        (i32.const 1)
+        (unreachable)
        )
       )
-     )
-    )
-    (set_local $5
-     (i32.load offset=8
-      (get_local $0)
-     )
-    )
-    (set_local $4
-     (i32.add
-      (i32.add
-       (get_local $5)
-       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      (call $~lib/map/Map<u32,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 10)
+        (get_local $1)
+       )
       )
-      (i32.mul
-       (block (result i32)
-        (set_local $6
-         (i32.load offset=16
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<u32,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 10)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<u32,i32>#get
           (get_local $0)
+          (get_local $1)
          )
-        )
-        (i32.store offset=16
-         (get_local $0)
          (i32.add
-          (get_local $6)
-          (i32.const 1)
+          (i32.const 10)
+          (get_local $1)
          )
         )
-        (get_local $6)
        )
-       (block $~lib/map/ENTRY_SIZE<f32,i32>|inlined.5 (result i32)
-        (i32.const 12)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 11)
+         (i32.const 4)
+        )
+        (unreachable)
        )
       )
      )
-    )
-    (f32.store
-     (get_local $4)
-     (get_local $1)
-    )
-    (i32.store offset=4
-     (get_local $4)
-     (get_local $2)
-    )
-    (i32.store offset=20
-     (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
       )
-      (i32.const 1)
      )
+     (br $repeat|0)
     )
-    (set_local $6
-     (i32.add
-      (i32.load
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<u32,i32>#get:size
        (get_local $0)
       )
-      (i32.mul
-       (i32.and
-        (get_local $3)
-        (i32.load offset=4
-         (get_local $0)
-        )
-       )
-       (get_global $~lib/map/BUCKET_SIZE)
-      )
+      (i32.const 100)
      )
     )
-    (i32.store offset=8
-     (get_local $4)
-     (i32.load offset=8
-      (get_local $6)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 13)
+      (i32.const 2)
      )
-    )
-    (i32.store offset=8
-     (get_local $6)
-     (get_local $4)
+     (unreachable)
     )
    )
-  )
- )
- (func $~lib/map/Map<f32,i32>#get (; 97 ;) (type $ifi) (param $0 i32) (param $1 f32) (result i32)
-  (local $2 i32)
-  (set_local $2
-   (call $~lib/map/Map<f32,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<f32>|inlined.3 (result i32)
-     (br $~lib/internal/hash/hash<f32>|inlined.3
-      (call $~lib/internal/hash/hash32
-       (i32.reinterpret/f32
+   (block $break|1
+    (set_local $1
+     (i32.const 0)
+    )
+    (loop $repeat|1
+     (br_if $break|1
+      (i32.eqz
+       (i32.lt_u
         (get_local $1)
+        (i32.const 100)
        )
       )
      )
-    )
-   )
-  )
-  (if (result i32)
-   (get_local $2)
-   (i32.load offset=4
-    (get_local $2)
-   )
-   (unreachable)
-  )
- )
- (func $~lib/map/Map<f32,i32>#get:size (; 98 ;) (type $ii) (param $0 i32) (result i32)
-  (i32.load offset=20
-   (get_local $0)
-  )
- )
- (func $~lib/map/Map<f32,i32>#delete (; 99 ;) (type $ifi) (param $0 i32) (param $1 f32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (set_local $2
-   (call $~lib/map/Map<f32,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<f32>|inlined.4 (result i32)
-     (br $~lib/internal/hash/hash<f32>|inlined.4
-      (call $~lib/internal/hash/hash32
-       (i32.reinterpret/f32
-        (get_local $1)
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<u32,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 17)
+         (i32.const 4)
+        )
+        (unreachable)
        )
       )
-     )
-    )
-   )
-  )
-  (if
-   (i32.eqz
-    (get_local $2)
-   )
-   (return
-    (i32.const 0)
-   )
-  )
-  (i32.store offset=8
-   (get_local $2)
-   (i32.or
-    (i32.load offset=8
-     (get_local $2)
-    )
-    (get_global $~lib/map/EMPTY)
-   )
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.sub
-    (i32.load offset=20
-     (get_local $0)
-    )
-    (i32.const 1)
-   )
-  )
-  (set_local $3
-   (i32.shr_u
-    (i32.load offset=4
-     (get_local $0)
-    )
-    (i32.const 1)
-   )
-  )
-  (if
-   (if (result i32)
-    (tee_local $4
-     (i32.ge_u
-      (i32.add
-       (get_local $3)
-       (i32.const 1)
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<u32,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 10)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 18)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
-      (select
-       (tee_local $4
-        (get_global $~lib/map/INITIAL_CAPACITY)
+      (call $~lib/map/Map<u32,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 20)
+        (get_local $1)
        )
-       (tee_local $5
-        (i32.load offset=20
+      )
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<u32,i32>#has
          (get_local $0)
+         (get_local $1)
         )
        )
-       (i32.gt_u
-        (get_local $4)
-        (get_local $5)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 20)
+         (i32.const 4)
+        )
+        (unreachable)
        )
       )
-     )
-    )
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $0)
-     )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $0)
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<u32,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (get_local $1)
+         )
         )
        )
-       (get_global $~lib/map/FREE_FACTOR)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 21)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
       )
      )
+     (br $repeat|1)
     )
-    (get_local $4)
-   )
-   (call $~lib/map/Map<f32,i32>#rehash
-    (get_local $0)
-    (get_local $3)
-   )
-  )
-  (i32.const 1)
- )
- (func $std/map/test<f32,i32> (; 100 ;) (type $v)
-  (local $0 i32)
-  (local $1 f32)
-  (set_local $0
-   (call $~lib/map/Map<f32,i32>#constructor
-    (i32.const 0)
    )
-  )
-  (block $break|0
-   (set_local $1
-    (f32.const 0)
-   )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (f32.lt
-       (get_local $1)
-       (f32.const 100)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<u32,i32>#get:size
+       (get_local $0)
       )
+      (i32.const 100)
      )
     )
     (block
-     (if
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 23)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|2
+    (set_local $1
+     (i32.const 0)
+    )
+    (loop $repeat|2
+     (br_if $break|2
       (i32.eqz
+       (i32.lt_u
+        (get_local $1)
+        (i32.const 50)
+       )
+      )
+     )
+     (block
+      (if
        (i32.eqz
-        (call $~lib/map/Map<f32,i32>#has
+        (call $~lib/map/Map<u32,i32>#has
          (get_local $0)
          (get_local $1)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 8)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 27)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
-     )
-     (call $~lib/map/Map<f32,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 10)
-       (i32.trunc_s/f32
-        (get_local $1)
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<u32,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 28)
+         (i32.const 4)
+        )
+        (unreachable)
        )
       )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<f32,i32>#has
+      (drop
+       (call $~lib/map/Map<u32,i32>#delete
         (get_local $0)
         (get_local $1)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 10)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<f32,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 10)
-         (i32.trunc_s/f32
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<u32,i32>#has
+          (get_local $0)
           (get_local $1)
          )
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 11)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 30)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (br $repeat|2)
     )
-    (set_local $1
-     (f32.add
-      (get_local $1)
-      (f32.const 1)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<u32,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
      )
     )
-    (br $repeat|0)
-   )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<f32,i32>#get:size
-      (get_local $0)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 32)
+      (i32.const 2)
      )
-     (i32.const 100)
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
+   (block $break|3
+    (set_local $1
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 13)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
-  )
-  (block $break|1
-   (set_local $1
-    (f32.const 0)
-   )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.eqz
-      (f32.lt
-       (get_local $1)
-       (f32.const 100)
-      )
-     )
     )
-    (block
-     (if
+    (loop $repeat|3
+     (br_if $break|3
       (i32.eqz
-       (call $~lib/map/Map<f32,i32>#has
-        (get_local $0)
+       (i32.lt_u
         (get_local $1)
+        (i32.const 50)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 17)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
      )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<f32,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 10)
-         (i32.trunc_s/f32
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<u32,i32>#has
+          (get_local $0)
           (get_local $1)
          )
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 18)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 36)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
-     )
-     (call $~lib/map/Map<f32,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 20)
-       (i32.trunc_s/f32
+      (call $~lib/map/Map<u32,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 10)
         (get_local $1)
        )
       )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<f32,i32>#has
-        (get_local $0)
-        (get_local $1)
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<u32,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 38)
+         (i32.const 4)
+        )
+        (unreachable)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 20)
-        (i32.const 4)
+      (drop
+       (call $~lib/map/Map<u32,i32>#delete
+        (get_local $0)
+        (get_local $1)
        )
-       (unreachable)
       )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<f32,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 20)
-         (i32.trunc_s/f32
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<u32,i32>#has
+          (get_local $0)
           (get_local $1)
          )
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 21)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 40)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-    )
-    (set_local $1
-     (f32.add
-      (get_local $1)
-      (f32.const 1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
+     (br $repeat|3)
     )
-    (br $repeat|1)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<f32,i32>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<u32,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
      )
-     (i32.const 100)
     )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 23)
-     (i32.const 2)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 42)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (unreachable)
    )
-  )
-  (block $break|2
-   (set_local $1
-    (f32.const 0)
+   (i32.store offset=4
+    (get_local $2)
+    (i32.const 0)
    )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (f32.lt
-       (get_local $1)
-       (f32.const 50)
+   (block $break|4
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<u32>#__iterator
+      (call $~lib/map/Map<u32,i32>#keys
+       (get_local $0)
       )
      )
     )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<f32,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
+    (loop $repeat|4
+     (br_if $break|4
+      (call $~lib/iterator/Iterator<u32>#get:done|virtual
+       (get_local $1)
       )
+     )
+     (block
       (block
-       (call $~lib/env/abort
+       (set_local $5
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.store
+        (get_local $5)
+        (get_local $2)
+       )
+       (i32.store offset=4
+        (get_local $5)
         (i32.const 0)
-        (i32.const 120)
-        (i32.const 27)
-        (i32.const 4)
        )
-       (unreachable)
+      )
+      (i32.store offset=4
+       (get_local $5)
+       (call $~lib/iterator/Iterator<u32>#next|virtual
+        (get_local $1)
+       )
       )
      )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<f32,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 20)
-         (i32.trunc_s/f32
-          (get_local $1)
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $6
+          (i32.ge_u
+           (i32.load offset=4
+            (get_local $5)
+           )
+           (i32.const 50)
+          )
+         )
+         (i32.lt_u
+          (i32.load offset=4
+           (get_local $5)
+          )
+          (i32.const 100)
          )
+         (get_local $6)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 28)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 47)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
-      )
-     )
-     (drop
-      (call $~lib/map/Map<f32,i32>#delete
-       (get_local $0)
-       (get_local $1)
       )
-     )
-     (if
-      (i32.eqz
+      (if
        (i32.eqz
-        (call $~lib/map/Map<f32,i32>#has
-         (get_local $0)
-         (get_local $1)
+        (i32.eq
+         (call $~lib/map/Map<u32,i32>#get
+          (get_local $0)
+          (i32.load offset=4
+           (get_local $5)
+          )
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.load offset=4
+           (get_local $5)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 48)
+         (i32.const 4)
         )
+        (unreachable)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 30)
-        (i32.const 4)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
-       (unreachable)
       )
      )
+     (br $repeat|4)
     )
-    (set_local $1
-     (f32.add
-      (get_local $1)
-      (f32.const 1)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
      )
     )
-    (br $repeat|2)
-   )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<f32,i32>#get:size
-      (get_local $0)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 51)
+      (i32.const 2)
      )
-     (i32.const 50)
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 32)
-     (i32.const 2)
+   (block $break|5
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<i32>#__iterator
+      (call $~lib/map/Map<u32,i32>#values
+       (get_local $0)
+      )
+     )
     )
-    (unreachable)
-   )
-  )
-  (block $break|3
-   (set_local $1
-    (f32.const 0)
-   )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (f32.lt
+    (loop $repeat|5
+     (br_if $break|5
+      (call $~lib/iterator/Iterator<i32>#get:done|virtual
        (get_local $1)
-       (f32.const 50)
       )
      )
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<f32,i32>#has
-         (get_local $0)
-         (get_local $1)
+     (block
+      (block
+       (set_local $8
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
+       (i32.store
+        (get_local $8)
+        (get_local $2)
+       )
+       (i32.store offset=4
+        (get_local $8)
         (i32.const 0)
-        (i32.const 120)
-        (i32.const 36)
-        (i32.const 4)
        )
-       (unreachable)
       )
-     )
-     (call $~lib/map/Map<f32,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 10)
-       (i32.trunc_s/f32
+      (i32.store offset=4
+       (get_local $8)
+       (call $~lib/iterator/Iterator<i32>#next|virtual
         (get_local $1)
        )
       )
      )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<f32,i32>#has
-        (get_local $0)
-        (get_local $1)
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $6
+          (i32.ge_s
+           (i32.load offset=4
+            (get_local $8)
+           )
+           (i32.const 70)
+          )
+         )
+         (i32.lt_s
+          (i32.load offset=4
+           (get_local $8)
+          )
+          (i32.const 120)
+         )
+         (get_local $6)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 53)
+         (i32.const 4)
+        )
+        (unreachable)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 38)
-        (i32.const 4)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
-       (unreachable)
       )
      )
-     (drop
-      (call $~lib/map/Map<f32,i32>#delete
+     (br $repeat|5)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 56)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|6
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<KeyValue<u32,i32>>#__iterator
+      (call $~lib/map/Map<u32,i32>#entries
        (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|6
+     (br_if $break|6
+      (call $~lib/iterator/Iterator<KeyValue<u32,i32>>#get:done|virtual
        (get_local $1)
       )
      )
-     (if
-      (i32.eqz
+     (set_local $6
+      (call $~lib/iterator/Iterator<KeyValue<u32,i32>>#next|virtual
+       (get_local $1)
+      )
+     )
+     (block
+      (if
        (i32.eqz
-        (call $~lib/map/Map<f32,i32>#has
-         (get_local $0)
-         (get_local $1)
+        (i32.eq
+         (i32.load offset=4
+          (get_local $6)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.load
+           (get_local $6)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 58)
+         (i32.const 4)
         )
+        (unreachable)
        )
       )
-      (block
-       (call $~lib/env/abort
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|6)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 61)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|7
+    (set_local $6
+     (call $~lib/map/Map<u32,i32>#__iterator
+      (get_local $0)
+     )
+    )
+    (loop $repeat|7
+     (br_if $break|7
+      (call $~lib/iterator/Iterator<KeyValue<u32,i32>>#get:done|virtual
+       (get_local $6)
+      )
+     )
+     (set_local $1
+      (call $~lib/iterator/Iterator<KeyValue<u32,i32>>#next|virtual
+       (get_local $6)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load offset=4
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.load
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 63)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|7)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 66)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/map/Map<u32,i32>#forEach
+    (get_local $0)
+    (block (result i32)
+     (set_local $1
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (i32.store
+      (get_local $1)
+      (i32.const 5)
+     )
+     (i32.store offset=4
+      (get_local $1)
+      (get_local $2)
+     )
+     (get_local $1)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 71)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/map/Map<u32,i32>#clear
+    (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<u32,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 75)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+  )
+ )
+ (func $~lib/map/Map<i64,i32>#clear (; 118 ;) (type $iv) (param $0 i32)
+  (i32.store
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 16)
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.sub
+    (get_global $~lib/map/INITIAL_CAPACITY)
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 64)
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_global $~lib/map/INITIAL_CAPACITY)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/map/Map<i64,i32>#constructor (; 119 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/map/Map<i64,i32>#clear
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $1
+        (call $~lib/memory/memory.allocate
+         (i32.const 24)
+        )
+       )
+       (i32.store
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=8
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=12
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=16
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=20
+        (get_local $1)
         (i32.const 0)
-        (i32.const 120)
-        (i32.const 40)
-        (i32.const 4)
        )
-       (unreachable)
+       (get_local $1)
       )
      )
     )
-    (set_local $1
-     (f32.add
-      (get_local $1)
-      (f32.const 1)
-     )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/hash/hash64 (; 120 ;) (type $Ii) (param $0 i64) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $1
+   (i32.wrap/i64
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.wrap/i64
+    (i64.shr_u
+     (get_local $0)
+     (i64.const 32)
+    )
+   )
+  )
+  (set_local $3
+   (get_global $~lib/internal/hash/FNV_OFFSET)
+  )
+  (set_local $3
+   (i32.mul
+    (i32.xor
+     (get_local $3)
+     (i32.and
+      (get_local $1)
+      (i32.const 255)
+     )
+    )
+    (get_global $~lib/internal/hash/FNV_PRIME)
+   )
+  )
+  (set_local $3
+   (i32.mul
+    (i32.xor
+     (get_local $3)
+     (i32.and
+      (i32.shr_u
+       (get_local $1)
+       (i32.const 8)
+      )
+      (i32.const 255)
+     )
+    )
+    (get_global $~lib/internal/hash/FNV_PRIME)
+   )
+  )
+  (set_local $3
+   (i32.mul
+    (i32.xor
+     (get_local $3)
+     (i32.and
+      (i32.shr_u
+       (get_local $1)
+       (i32.const 16)
+      )
+      (i32.const 255)
+     )
+    )
+    (get_global $~lib/internal/hash/FNV_PRIME)
+   )
+  )
+  (set_local $3
+   (i32.mul
+    (i32.xor
+     (get_local $3)
+     (i32.shr_u
+      (get_local $1)
+      (i32.const 24)
+     )
+    )
+    (get_global $~lib/internal/hash/FNV_PRIME)
+   )
+  )
+  (set_local $3
+   (i32.mul
+    (i32.xor
+     (get_local $3)
+     (i32.and
+      (get_local $2)
+      (i32.const 255)
+     )
+    )
+    (get_global $~lib/internal/hash/FNV_PRIME)
+   )
+  )
+  (set_local $3
+   (i32.mul
+    (i32.xor
+     (get_local $3)
+     (i32.and
+      (i32.shr_u
+       (get_local $2)
+       (i32.const 8)
+      )
+      (i32.const 255)
+     )
+    )
+    (get_global $~lib/internal/hash/FNV_PRIME)
+   )
+  )
+  (set_local $3
+   (i32.mul
+    (i32.xor
+     (get_local $3)
+     (i32.and
+      (i32.shr_u
+       (get_local $2)
+       (i32.const 16)
+      )
+      (i32.const 255)
+     )
+    )
+    (get_global $~lib/internal/hash/FNV_PRIME)
+   )
+  )
+  (set_local $3
+   (i32.mul
+    (i32.xor
+     (get_local $3)
+     (i32.shr_u
+      (get_local $2)
+      (i32.const 24)
+     )
+    )
+    (get_global $~lib/internal/hash/FNV_PRIME)
+   )
+  )
+  (get_local $3)
+ )
+ (func $~lib/map/Map<i64,i32>#find (; 121 ;) (type $iIii) (param $0 i32) (param $1 i64) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (i32.mul
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (get_global $~lib/map/BUCKET_SIZE)
+     )
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (get_local $3)
+     (block
+      (block
+       (if
+        (if (result i32)
+         (tee_local $4
+          (i32.eqz
+           (i32.and
+            (i32.load offset=12
+             (get_local $3)
+            )
+            (get_global $~lib/map/EMPTY)
+           )
+          )
+         )
+         (i64.eq
+          (i64.load
+           (get_local $3)
+          )
+          (get_local $1)
+         )
+         (get_local $4)
+        )
+        (return
+         (get_local $3)
+        )
+       )
+       (set_local $3
+        (i32.and
+         (i32.load offset=12
+          (get_local $3)
+         )
+         (i32.xor
+          (get_global $~lib/map/EMPTY)
+          (i32.const -1)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/map/Map<i64,i32>#has (; 122 ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
+  (i32.ne
+   (call $~lib/map/Map<i64,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<i64>|inlined.0 (result i32)
+     (br $~lib/internal/hash/hash<i64>|inlined.0
+      (call $~lib/internal/hash/hash64
+       (get_local $1)
+      )
+     )
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/map/Map<i64,i32>#rehash (; 123 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i64)
+  (local $12 i32)
+  (local $13 i32)
+  (set_local $2
+   (i32.add
+    (get_local $1)
+    (i32.const 1)
+   )
+  )
+  (set_local $3
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $2)
+     (get_global $~lib/map/BUCKET_SIZE)
+    )
+    (i32.const 0)
+   )
+  )
+  (set_local $4
+   (i32.trunc_s/f64
+    (f64.mul
+     (f64.convert_s/i32
+      (get_local $2)
+     )
+     (get_global $~lib/map/FILL_FACTOR)
+    )
+   )
+  )
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $4)
+     (block $~lib/map/ENTRY_SIZE<i64,i32>|inlined.1 (result i32)
+      (i32.const 16)
+     )
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $6
+   (i32.add
+    (i32.load offset=8
+     (get_local $0)
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+  )
+  (set_local $7
+   (i32.add
+    (get_local $6)
+    (i32.mul
+     (i32.load offset=16
+      (get_local $0)
+     )
+     (block $~lib/map/ENTRY_SIZE<i64,i32>|inlined.2 (result i32)
+      (i32.const 16)
+     )
+    )
+   )
+  )
+  (set_local $8
+   (i32.add
+    (get_local $5)
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.ne
+      (get_local $6)
+      (get_local $7)
+     )
+     (block
+      (block
+       (set_local $9
+        (get_local $6)
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=12
+           (get_local $9)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (block
+         (set_local $10
+          (get_local $8)
+         )
+         (i64.store
+          (get_local $10)
+          (i64.load
+           (get_local $9)
+          )
+         )
+         (i32.store offset=8
+          (get_local $10)
+          (i32.load offset=8
+           (get_local $9)
+          )
+         )
+         (set_local $12
+          (i32.and
+           (block $~lib/internal/hash/hash<i64>|inlined.2 (result i32)
+            (set_local $11
+             (i64.load
+              (get_local $9)
+             )
+            )
+            (br $~lib/internal/hash/hash<i64>|inlined.2
+             (call $~lib/internal/hash/hash64
+              (get_local $11)
+             )
+            )
+           )
+           (get_local $1)
+          )
+         )
+         (set_local $13
+          (i32.add
+           (get_local $3)
+           (i32.mul
+            (get_local $12)
+            (get_global $~lib/map/BUCKET_SIZE)
+           )
+          )
+         )
+         (i32.store offset=12
+          (get_local $10)
+          (i32.load offset=8
+           (get_local $13)
+          )
+         )
+         (i32.store offset=8
+          (get_local $13)
+          (get_local $8)
+         )
+         (set_local $8
+          (i32.add
+           (get_local $8)
+           (block $~lib/map/ENTRY_SIZE<i64,i32>|inlined.3 (result i32)
+            (i32.const 16)
+           )
+          )
+         )
+        )
+       )
+       (set_local $6
+        (i32.add
+         (get_local $6)
+         (block $~lib/map/ENTRY_SIZE<i64,i32>|inlined.4 (result i32)
+          (i32.const 16)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/Map<i64,i32>#set (; 124 ;) (type $iIiv) (param $0 i32) (param $1 i64) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $3
+   (block $~lib/internal/hash/hash<i64>|inlined.1 (result i32)
+    (br $~lib/internal/hash/hash<i64>|inlined.1
+     (call $~lib/internal/hash/hash64
+      (get_local $1)
+     )
+    )
+   )
+  )
+  (set_local $4
+   (call $~lib/map/Map<i64,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (get_local $3)
+   )
+  )
+  (if
+   (get_local $4)
+   (i32.store offset=8
+    (get_local $4)
+    (get_local $2)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
+      )
+     )
+     (call $~lib/map/Map<i64,i32>#rehash
+      (get_local $0)
+      (if (result i32)
+       (i32.lt_s
+        (i32.load offset=20
+         (get_local $0)
+        )
+        (i32.trunc_s/f64
+         (f64.mul
+          (f64.convert_s/i32
+           (i32.load offset=12
+            (get_local $0)
+           )
+          )
+          (get_global $~lib/map/FREE_FACTOR)
+         )
+        )
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+       (i32.or
+        (i32.shl
+         (i32.load offset=4
+          (get_local $0)
+         )
+         (i32.const 1)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $5
+     (i32.load offset=8
+      (get_local $0)
+     )
+    )
+    (set_local $4
+     (i32.add
+      (i32.add
+       (get_local $5)
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+      (i32.mul
+       (block (result i32)
+        (set_local $6
+         (i32.load offset=16
+          (get_local $0)
+         )
+        )
+        (i32.store offset=16
+         (get_local $0)
+         (i32.add
+          (get_local $6)
+          (i32.const 1)
+         )
+        )
+        (get_local $6)
+       )
+       (block $~lib/map/ENTRY_SIZE<i64,i32>|inlined.5 (result i32)
+        (i32.const 16)
+       )
+      )
+     )
+    )
+    (i64.store
+     (get_local $4)
+     (get_local $1)
+    )
+    (i32.store offset=8
+     (get_local $4)
+     (get_local $2)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $6
+     (i32.add
+      (i32.load
+       (get_local $0)
+      )
+      (i32.mul
+       (i32.and
+        (get_local $3)
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (get_global $~lib/map/BUCKET_SIZE)
+      )
+     )
+    )
+    (i32.store offset=12
+     (get_local $4)
+     (i32.load offset=8
+      (get_local $6)
+     )
+    )
+    (i32.store offset=8
+     (get_local $6)
+     (get_local $4)
+    )
+   )
+  )
+ )
+ (func $~lib/map/Map<i64,i32>#get (; 125 ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (call $~lib/map/Map<i64,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<i64>|inlined.3 (result i32)
+     (br $~lib/internal/hash/hash<i64>|inlined.3
+      (call $~lib/internal/hash/hash64
+       (get_local $1)
+      )
+     )
+    )
+   )
+  )
+  (if (result i32)
+   (get_local $2)
+   (i32.load offset=8
+    (get_local $2)
+   )
+   (unreachable)
+  )
+ )
+ (func $~lib/map/Map<i64,i32>#get:size (; 126 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=20
+   (get_local $0)
+  )
+ )
+ (func $~lib/map/Map<i64,i32>#delete (; 127 ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (call $~lib/map/Map<i64,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<i64>|inlined.4 (result i32)
+     (br $~lib/internal/hash/hash<i64>|inlined.4
+      (call $~lib/internal/hash/hash64
+       (get_local $1)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=12
+   (get_local $2)
+   (i32.or
+    (i32.load offset=12
+     (get_local $2)
+    )
+    (get_global $~lib/map/EMPTY)
+   )
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $3
+   (i32.shr_u
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $4
+     (i32.ge_u
+      (i32.add
+       (get_local $3)
+       (i32.const 1)
+      )
+      (select
+       (tee_local $4
+        (get_global $~lib/map/INITIAL_CAPACITY)
+       )
+       (tee_local $5
+        (i32.load offset=20
+         (get_local $0)
+        )
+       )
+       (i32.gt_u
+        (get_local $4)
+        (get_local $5)
+       )
+      )
+     )
+    )
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $0)
+     )
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $0)
+        )
+       )
+       (get_global $~lib/map/FREE_FACTOR)
+      )
+     )
+    )
+    (get_local $4)
+   )
+   (call $~lib/map/Map<i64,i32>#rehash
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/map/Map<i64,i32>#keys (; 128 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 86)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<i64>#__iterator (; 129 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/map/Map<i64,i32>#values (; 130 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 88)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/map/Map<i64,i32>#entries (; 131 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 93)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<KeyValue<i64,i32>>#__iterator (; 132 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/map/Map<i64,i32>#__iterator (; 133 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/map/Map<i64,i32>#entries
+   (get_local $0)
+  )
+ )
+ (func $std/map/test<i64,i32>~anonymous|6 (; 134 ;) (type $iIiv) (param $0 i32) (param $1 i64) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (block
+   (if
+    (i32.eqz
+     (i32.eq
+      (get_local $0)
+      (i32.add
+       (i32.const 20)
+       (i32.wrap/i64
+        (get_local $1)
+       )
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 68)
+      (i32.const 4)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $3)
+    (i32.add
+     (i32.load offset=4
+      (get_local $3)
+     )
+     (i32.const 1)
+    )
+   )
+  )
+ )
+ (func $~lib/map/Map<i64,i32>#forEach (; 135 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $2)
+       (i32.load offset=16
+        (get_local $0)
+       )
+      )
+     )
+    )
+    (block
+     (set_local $3
+      (i32.add
+       (i32.add
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+       )
+       (i32.mul
+        (get_local $2)
+        (block $~lib/map/ENTRY_SIZE<i64,i32>|inlined.6 (result i32)
+         (i32.const 16)
+        )
+       )
+      )
+     )
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=12
+         (get_local $3)
+        )
+        (get_global $~lib/map/EMPTY)
+       )
+      )
+      (block
+       (set_global $~argc
+        (i32.const 3)
+       )
+       (call_indirect (type $iIiv)
+        (i32.load offset=8
+         (get_local $3)
+        )
+        (i64.load
+         (get_local $3)
+        )
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (get_local $1)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $std/map/test<i64,i32> (; 136 ;) (type $v)
+  (local $0 i32)
+  (local $1 i64)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i64)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (set_local $2
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
+   )
+  )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block
+   (set_local $0
+    (call $~lib/map/Map<i64,i32>#constructor
+     (i32.const 0)
+    )
+   )
+   (block $break|0
+    (set_local $1
+     (i64.const 0)
+    )
+    (loop $repeat|0
+     (br_if $break|0
+      (i32.eqz
+       (i64.lt_s
+        (get_local $1)
+        (i64.const 100)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<i64,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 8)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/map/Map<i64,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 10)
+        (i32.wrap/i64
+         (get_local $1)
+        )
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<i64,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 10)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<i64,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 10)
+          (i32.wrap/i64
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 11)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i64.add
+       (get_local $1)
+       (i64.const 1)
+      )
+     )
+     (br $repeat|0)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<i64,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 13)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|1
+    (set_local $1
+     (i64.const 0)
+    )
+    (loop $repeat|1
+     (br_if $break|1
+      (i32.eqz
+       (i64.lt_s
+        (get_local $1)
+        (i64.const 100)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<i64,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 17)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<i64,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 10)
+          (i32.wrap/i64
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 18)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/map/Map<i64,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 20)
+        (i32.wrap/i64
+         (get_local $1)
+        )
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<i64,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 20)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<i64,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.wrap/i64
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 21)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i64.add
+       (get_local $1)
+       (i64.const 1)
+      )
+     )
+     (br $repeat|1)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<i64,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 23)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|2
+    (set_local $1
+     (i64.const 0)
+    )
+    (loop $repeat|2
+     (br_if $break|2
+      (i32.eqz
+       (i64.lt_s
+        (get_local $1)
+        (i64.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<i64,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 27)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<i64,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.wrap/i64
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 28)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/map/Map<i64,i32>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<i64,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 30)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i64.add
+       (get_local $1)
+       (i64.const 1)
+      )
+     )
+     (br $repeat|2)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<i64,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 32)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|3
+    (set_local $1
+     (i64.const 0)
+    )
+    (loop $repeat|3
+     (br_if $break|3
+      (i32.eqz
+       (i64.lt_s
+        (get_local $1)
+        (i64.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<i64,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 36)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/map/Map<i64,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 10)
+        (i32.wrap/i64
+         (get_local $1)
+        )
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<i64,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 38)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/map/Map<i64,i32>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<i64,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 40)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i64.add
+       (get_local $1)
+       (i64.const 1)
+      )
+     )
+     (br $repeat|3)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<i64,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 42)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $2)
+    (i32.const 0)
+   )
+   (block $break|4
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<i64>#__iterator
+      (call $~lib/map/Map<i64,i32>#keys
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|4
+     (br_if $break|4
+      (call $~lib/iterator/Iterator<i64>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (block
+       (set_local $6
+        (call $~lib/memory/memory.allocate
+         (i32.const 16)
+        )
+       )
+       (i32.store
+        (get_local $6)
+        (get_local $2)
+       )
+       (i64.store offset=8
+        (get_local $6)
+        (i64.const 0)
+       )
+      )
+      (i64.store offset=8
+       (get_local $6)
+       (call $~lib/iterator/Iterator<i64>#next|virtual
+        (get_local $4)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $7
+          (i64.ge_s
+           (i64.load offset=8
+            (get_local $6)
+           )
+           (i64.const 50)
+          )
+         )
+         (i64.lt_s
+          (i64.load offset=8
+           (get_local $6)
+          )
+          (i64.const 100)
+         )
+         (get_local $7)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 47)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<i64,i32>#get
+          (get_local $0)
+          (i64.load offset=8
+           (get_local $6)
+          )
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.wrap/i64
+           (i64.load offset=8
+            (get_local $6)
+           )
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 48)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|4)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 51)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|5
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<i32>#__iterator
+      (call $~lib/map/Map<i64,i32>#values
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|5
+     (br_if $break|5
+      (call $~lib/iterator/Iterator<i32>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (block
+       (set_local $9
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.store
+        (get_local $9)
+        (get_local $2)
+       )
+       (i32.store offset=4
+        (get_local $9)
+        (i32.const 0)
+       )
+      )
+      (i32.store offset=4
+       (get_local $9)
+       (call $~lib/iterator/Iterator<i32>#next|virtual
+        (get_local $4)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $7
+          (i32.ge_s
+           (i32.load offset=4
+            (get_local $9)
+           )
+           (i32.const 70)
+          )
+         )
+         (i32.lt_s
+          (i32.load offset=4
+           (get_local $9)
+          )
+          (i32.const 120)
+         )
+         (get_local $7)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 53)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|5)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 56)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|6
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<KeyValue<i64,i32>>#__iterator
+      (call $~lib/map/Map<i64,i32>#entries
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|6
+     (br_if $break|6
+      (call $~lib/iterator/Iterator<KeyValue<i64,i32>>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (set_local $7
+      (call $~lib/iterator/Iterator<KeyValue<i64,i32>>#next|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load offset=8
+          (get_local $7)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.wrap/i64
+           (i64.load
+            (get_local $7)
+           )
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 58)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|6)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 61)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|7
+    (set_local $7
+     (call $~lib/map/Map<i64,i32>#__iterator
+      (get_local $0)
+     )
+    )
+    (loop $repeat|7
+     (br_if $break|7
+      (call $~lib/iterator/Iterator<KeyValue<i64,i32>>#get:done|virtual
+       (get_local $7)
+      )
+     )
+     (set_local $4
+      (call $~lib/iterator/Iterator<KeyValue<i64,i32>>#next|virtual
+       (get_local $7)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load offset=8
+          (get_local $4)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.wrap/i64
+           (i64.load
+            (get_local $4)
+           )
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 63)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|7)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 66)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/map/Map<i64,i32>#forEach
+    (get_local $0)
+    (block (result i32)
+     (set_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (i32.store
+      (get_local $4)
+      (i32.const 6)
+     )
+     (i32.store offset=4
+      (get_local $4)
+      (get_local $2)
+     )
+     (get_local $4)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 71)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/map/Map<i64,i32>#clear
+    (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<i64,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 75)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+  )
+ )
+ (func $~lib/map/Map<u64,i32>#clear (; 137 ;) (type $iv) (param $0 i32)
+  (i32.store
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 16)
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.sub
+    (get_global $~lib/map/INITIAL_CAPACITY)
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 64)
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_global $~lib/map/INITIAL_CAPACITY)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/map/Map<u64,i32>#constructor (; 138 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/map/Map<u64,i32>#clear
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $1
+        (call $~lib/memory/memory.allocate
+         (i32.const 24)
+        )
+       )
+       (i32.store
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=8
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=12
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=16
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=20
+        (get_local $1)
+        (i32.const 0)
+       )
+       (get_local $1)
+      )
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/map/Map<u64,i32>#find (; 139 ;) (type $iIii) (param $0 i32) (param $1 i64) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (i32.mul
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (get_global $~lib/map/BUCKET_SIZE)
+     )
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (get_local $3)
+     (block
+      (block
+       (if
+        (if (result i32)
+         (tee_local $4
+          (i32.eqz
+           (i32.and
+            (i32.load offset=12
+             (get_local $3)
+            )
+            (get_global $~lib/map/EMPTY)
+           )
+          )
+         )
+         (i64.eq
+          (i64.load
+           (get_local $3)
+          )
+          (get_local $1)
+         )
+         (get_local $4)
+        )
+        (return
+         (get_local $3)
+        )
+       )
+       (set_local $3
+        (i32.and
+         (i32.load offset=12
+          (get_local $3)
+         )
+         (i32.xor
+          (get_global $~lib/map/EMPTY)
+          (i32.const -1)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/map/Map<u64,i32>#has (; 140 ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
+  (i32.ne
+   (call $~lib/map/Map<u64,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<u64>|inlined.0 (result i32)
+     (br $~lib/internal/hash/hash<u64>|inlined.0
+      (call $~lib/internal/hash/hash64
+       (get_local $1)
+      )
+     )
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/map/Map<u64,i32>#rehash (; 141 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i64)
+  (local $12 i32)
+  (local $13 i32)
+  (set_local $2
+   (i32.add
+    (get_local $1)
+    (i32.const 1)
+   )
+  )
+  (set_local $3
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $2)
+     (get_global $~lib/map/BUCKET_SIZE)
+    )
+    (i32.const 0)
+   )
+  )
+  (set_local $4
+   (i32.trunc_s/f64
+    (f64.mul
+     (f64.convert_s/i32
+      (get_local $2)
+     )
+     (get_global $~lib/map/FILL_FACTOR)
+    )
+   )
+  )
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $4)
+     (block $~lib/map/ENTRY_SIZE<u64,i32>|inlined.1 (result i32)
+      (i32.const 16)
+     )
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $6
+   (i32.add
+    (i32.load offset=8
+     (get_local $0)
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+  )
+  (set_local $7
+   (i32.add
+    (get_local $6)
+    (i32.mul
+     (i32.load offset=16
+      (get_local $0)
+     )
+     (block $~lib/map/ENTRY_SIZE<u64,i32>|inlined.2 (result i32)
+      (i32.const 16)
+     )
+    )
+   )
+  )
+  (set_local $8
+   (i32.add
+    (get_local $5)
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.ne
+      (get_local $6)
+      (get_local $7)
+     )
+     (block
+      (block
+       (set_local $9
+        (get_local $6)
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=12
+           (get_local $9)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (block
+         (set_local $10
+          (get_local $8)
+         )
+         (i64.store
+          (get_local $10)
+          (i64.load
+           (get_local $9)
+          )
+         )
+         (i32.store offset=8
+          (get_local $10)
+          (i32.load offset=8
+           (get_local $9)
+          )
+         )
+         (set_local $12
+          (i32.and
+           (block $~lib/internal/hash/hash<u64>|inlined.2 (result i32)
+            (set_local $11
+             (i64.load
+              (get_local $9)
+             )
+            )
+            (br $~lib/internal/hash/hash<u64>|inlined.2
+             (call $~lib/internal/hash/hash64
+              (get_local $11)
+             )
+            )
+           )
+           (get_local $1)
+          )
+         )
+         (set_local $13
+          (i32.add
+           (get_local $3)
+           (i32.mul
+            (get_local $12)
+            (get_global $~lib/map/BUCKET_SIZE)
+           )
+          )
+         )
+         (i32.store offset=12
+          (get_local $10)
+          (i32.load offset=8
+           (get_local $13)
+          )
+         )
+         (i32.store offset=8
+          (get_local $13)
+          (get_local $8)
+         )
+         (set_local $8
+          (i32.add
+           (get_local $8)
+           (block $~lib/map/ENTRY_SIZE<u64,i32>|inlined.3 (result i32)
+            (i32.const 16)
+           )
+          )
+         )
+        )
+       )
+       (set_local $6
+        (i32.add
+         (get_local $6)
+         (block $~lib/map/ENTRY_SIZE<u64,i32>|inlined.4 (result i32)
+          (i32.const 16)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/Map<u64,i32>#set (; 142 ;) (type $iIiv) (param $0 i32) (param $1 i64) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $3
+   (block $~lib/internal/hash/hash<u64>|inlined.1 (result i32)
+    (br $~lib/internal/hash/hash<u64>|inlined.1
+     (call $~lib/internal/hash/hash64
+      (get_local $1)
+     )
+    )
+   )
+  )
+  (set_local $4
+   (call $~lib/map/Map<u64,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (get_local $3)
+   )
+  )
+  (if
+   (get_local $4)
+   (i32.store offset=8
+    (get_local $4)
+    (get_local $2)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
+      )
+     )
+     (call $~lib/map/Map<u64,i32>#rehash
+      (get_local $0)
+      (if (result i32)
+       (i32.lt_s
+        (i32.load offset=20
+         (get_local $0)
+        )
+        (i32.trunc_s/f64
+         (f64.mul
+          (f64.convert_s/i32
+           (i32.load offset=12
+            (get_local $0)
+           )
+          )
+          (get_global $~lib/map/FREE_FACTOR)
+         )
+        )
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+       (i32.or
+        (i32.shl
+         (i32.load offset=4
+          (get_local $0)
+         )
+         (i32.const 1)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $5
+     (i32.load offset=8
+      (get_local $0)
+     )
+    )
+    (set_local $4
+     (i32.add
+      (i32.add
+       (get_local $5)
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+      (i32.mul
+       (block (result i32)
+        (set_local $6
+         (i32.load offset=16
+          (get_local $0)
+         )
+        )
+        (i32.store offset=16
+         (get_local $0)
+         (i32.add
+          (get_local $6)
+          (i32.const 1)
+         )
+        )
+        (get_local $6)
+       )
+       (block $~lib/map/ENTRY_SIZE<u64,i32>|inlined.5 (result i32)
+        (i32.const 16)
+       )
+      )
+     )
+    )
+    (i64.store
+     (get_local $4)
+     (get_local $1)
+    )
+    (i32.store offset=8
+     (get_local $4)
+     (get_local $2)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $6
+     (i32.add
+      (i32.load
+       (get_local $0)
+      )
+      (i32.mul
+       (i32.and
+        (get_local $3)
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (get_global $~lib/map/BUCKET_SIZE)
+      )
+     )
+    )
+    (i32.store offset=12
+     (get_local $4)
+     (i32.load offset=8
+      (get_local $6)
+     )
+    )
+    (i32.store offset=8
+     (get_local $6)
+     (get_local $4)
+    )
+   )
+  )
+ )
+ (func $~lib/map/Map<u64,i32>#get (; 143 ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (call $~lib/map/Map<u64,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<u64>|inlined.3 (result i32)
+     (br $~lib/internal/hash/hash<u64>|inlined.3
+      (call $~lib/internal/hash/hash64
+       (get_local $1)
+      )
+     )
+    )
+   )
+  )
+  (if (result i32)
+   (get_local $2)
+   (i32.load offset=8
+    (get_local $2)
+   )
+   (unreachable)
+  )
+ )
+ (func $~lib/map/Map<u64,i32>#get:size (; 144 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=20
+   (get_local $0)
+  )
+ )
+ (func $~lib/map/Map<u64,i32>#delete (; 145 ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (call $~lib/map/Map<u64,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<u64>|inlined.4 (result i32)
+     (br $~lib/internal/hash/hash<u64>|inlined.4
+      (call $~lib/internal/hash/hash64
+       (get_local $1)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=12
+   (get_local $2)
+   (i32.or
+    (i32.load offset=12
+     (get_local $2)
+    )
+    (get_global $~lib/map/EMPTY)
+   )
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $3
+   (i32.shr_u
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $4
+     (i32.ge_u
+      (i32.add
+       (get_local $3)
+       (i32.const 1)
+      )
+      (select
+       (tee_local $4
+        (get_global $~lib/map/INITIAL_CAPACITY)
+       )
+       (tee_local $5
+        (i32.load offset=20
+         (get_local $0)
+        )
+       )
+       (i32.gt_u
+        (get_local $4)
+        (get_local $5)
+       )
+      )
+     )
+    )
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $0)
+     )
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $0)
+        )
+       )
+       (get_global $~lib/map/FREE_FACTOR)
+      )
+     )
+    )
+    (get_local $4)
+   )
+   (call $~lib/map/Map<u64,i32>#rehash
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/map/Map<u64,i32>#keys (; 146 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 99)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<u64>#__iterator (; 147 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/map/Map<u64,i32>#values (; 148 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 101)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/map/Map<u64,i32>#entries (; 149 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 106)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<KeyValue<u64,i32>>#__iterator (; 150 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/map/Map<u64,i32>#__iterator (; 151 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/map/Map<u64,i32>#entries
+   (get_local $0)
+  )
+ )
+ (func $std/map/test<u64,i32>~anonymous|7 (; 152 ;) (type $iIiv) (param $0 i32) (param $1 i64) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (block
+   (if
+    (i32.eqz
+     (i32.eq
+      (get_local $0)
+      (i32.add
+       (i32.const 20)
+       (i32.wrap/i64
+        (get_local $1)
+       )
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 68)
+      (i32.const 4)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $3)
+    (i32.add
+     (i32.load offset=4
+      (get_local $3)
+     )
+     (i32.const 1)
+    )
+   )
+  )
+ )
+ (func $~lib/map/Map<u64,i32>#forEach (; 153 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $2)
+       (i32.load offset=16
+        (get_local $0)
+       )
+      )
+     )
+    )
+    (block
+     (set_local $3
+      (i32.add
+       (i32.add
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+       )
+       (i32.mul
+        (get_local $2)
+        (block $~lib/map/ENTRY_SIZE<u64,i32>|inlined.6 (result i32)
+         (i32.const 16)
+        )
+       )
+      )
+     )
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=12
+         (get_local $3)
+        )
+        (get_global $~lib/map/EMPTY)
+       )
+      )
+      (block
+       (set_global $~argc
+        (i32.const 3)
+       )
+       (call_indirect (type $iIiv)
+        (i32.load offset=8
+         (get_local $3)
+        )
+        (i64.load
+         (get_local $3)
+        )
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (get_local $1)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $std/map/test<u64,i32> (; 154 ;) (type $v)
+  (local $0 i32)
+  (local $1 i64)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i64)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (set_local $2
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
+   )
+  )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block
+   (set_local $0
+    (call $~lib/map/Map<u64,i32>#constructor
+     (i32.const 0)
+    )
+   )
+   (block $break|0
+    (set_local $1
+     (i64.const 0)
+    )
+    (loop $repeat|0
+     (br_if $break|0
+      (i32.eqz
+       (i64.lt_u
+        (get_local $1)
+        (i64.const 100)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<u64,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 8)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/map/Map<u64,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 10)
+        (i32.wrap/i64
+         (get_local $1)
+        )
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<u64,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 10)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<u64,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 10)
+          (i32.wrap/i64
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 11)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i64.add
+       (get_local $1)
+       (i64.const 1)
+      )
+     )
+     (br $repeat|0)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<u64,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 13)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|1
+    (set_local $1
+     (i64.const 0)
+    )
+    (loop $repeat|1
+     (br_if $break|1
+      (i32.eqz
+       (i64.lt_u
+        (get_local $1)
+        (i64.const 100)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<u64,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 17)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<u64,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 10)
+          (i32.wrap/i64
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 18)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/map/Map<u64,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 20)
+        (i32.wrap/i64
+         (get_local $1)
+        )
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<u64,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 20)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<u64,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.wrap/i64
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 21)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i64.add
+       (get_local $1)
+       (i64.const 1)
+      )
+     )
+     (br $repeat|1)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<u64,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 23)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|2
+    (set_local $1
+     (i64.const 0)
+    )
+    (loop $repeat|2
+     (br_if $break|2
+      (i32.eqz
+       (i64.lt_u
+        (get_local $1)
+        (i64.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<u64,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 27)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<u64,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.wrap/i64
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 28)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/map/Map<u64,i32>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<u64,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 30)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i64.add
+       (get_local $1)
+       (i64.const 1)
+      )
+     )
+     (br $repeat|2)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<u64,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 32)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|3
+    (set_local $1
+     (i64.const 0)
+    )
+    (loop $repeat|3
+     (br_if $break|3
+      (i32.eqz
+       (i64.lt_u
+        (get_local $1)
+        (i64.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<u64,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 36)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/map/Map<u64,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 10)
+        (i32.wrap/i64
+         (get_local $1)
+        )
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<u64,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 38)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/map/Map<u64,i32>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<u64,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 40)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i64.add
+       (get_local $1)
+       (i64.const 1)
+      )
+     )
+     (br $repeat|3)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<u64,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 42)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $2)
+    (i32.const 0)
+   )
+   (block $break|4
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<u64>#__iterator
+      (call $~lib/map/Map<u64,i32>#keys
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|4
+     (br_if $break|4
+      (call $~lib/iterator/Iterator<u64>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (block
+       (set_local $6
+        (call $~lib/memory/memory.allocate
+         (i32.const 16)
+        )
+       )
+       (i32.store
+        (get_local $6)
+        (get_local $2)
+       )
+       (i64.store offset=8
+        (get_local $6)
+        (i64.const 0)
+       )
+      )
+      (i64.store offset=8
+       (get_local $6)
+       (call $~lib/iterator/Iterator<u64>#next|virtual
+        (get_local $4)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $7
+          (i64.ge_u
+           (i64.load offset=8
+            (get_local $6)
+           )
+           (i64.const 50)
+          )
+         )
+         (i64.lt_u
+          (i64.load offset=8
+           (get_local $6)
+          )
+          (i64.const 100)
+         )
+         (get_local $7)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 47)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<u64,i32>#get
+          (get_local $0)
+          (i64.load offset=8
+           (get_local $6)
+          )
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.wrap/i64
+           (i64.load offset=8
+            (get_local $6)
+           )
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 48)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|4)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 51)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|5
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<i32>#__iterator
+      (call $~lib/map/Map<u64,i32>#values
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|5
+     (br_if $break|5
+      (call $~lib/iterator/Iterator<i32>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (block
+       (set_local $9
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.store
+        (get_local $9)
+        (get_local $2)
+       )
+       (i32.store offset=4
+        (get_local $9)
+        (i32.const 0)
+       )
+      )
+      (i32.store offset=4
+       (get_local $9)
+       (call $~lib/iterator/Iterator<i32>#next|virtual
+        (get_local $4)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $7
+          (i32.ge_s
+           (i32.load offset=4
+            (get_local $9)
+           )
+           (i32.const 70)
+          )
+         )
+         (i32.lt_s
+          (i32.load offset=4
+           (get_local $9)
+          )
+          (i32.const 120)
+         )
+         (get_local $7)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 53)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|5)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 56)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|6
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<KeyValue<u64,i32>>#__iterator
+      (call $~lib/map/Map<u64,i32>#entries
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|6
+     (br_if $break|6
+      (call $~lib/iterator/Iterator<KeyValue<u64,i32>>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (set_local $7
+      (call $~lib/iterator/Iterator<KeyValue<u64,i32>>#next|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load offset=8
+          (get_local $7)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.wrap/i64
+           (i64.load
+            (get_local $7)
+           )
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 58)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|6)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 61)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|7
+    (set_local $7
+     (call $~lib/map/Map<u64,i32>#__iterator
+      (get_local $0)
+     )
+    )
+    (loop $repeat|7
+     (br_if $break|7
+      (call $~lib/iterator/Iterator<KeyValue<u64,i32>>#get:done|virtual
+       (get_local $7)
+      )
+     )
+     (set_local $4
+      (call $~lib/iterator/Iterator<KeyValue<u64,i32>>#next|virtual
+       (get_local $7)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load offset=8
+          (get_local $4)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.wrap/i64
+           (i64.load
+            (get_local $4)
+           )
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 63)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|7)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 66)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/map/Map<u64,i32>#forEach
+    (get_local $0)
+    (block (result i32)
+     (set_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (i32.store
+      (get_local $4)
+      (i32.const 7)
+     )
+     (i32.store offset=4
+      (get_local $4)
+      (get_local $2)
+     )
+     (get_local $4)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 71)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/map/Map<u64,i32>#clear
+    (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<u64,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 75)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+  )
+ )
+ (func $~lib/map/Map<f32,i32>#clear (; 155 ;) (type $iv) (param $0 i32)
+  (i32.store
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 16)
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.sub
+    (get_global $~lib/map/INITIAL_CAPACITY)
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 48)
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_global $~lib/map/INITIAL_CAPACITY)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/map/Map<f32,i32>#constructor (; 156 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/map/Map<f32,i32>#clear
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $1
+        (call $~lib/memory/memory.allocate
+         (i32.const 24)
+        )
+       )
+       (i32.store
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=8
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=12
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=16
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=20
+        (get_local $1)
+        (i32.const 0)
+       )
+       (get_local $1)
+      )
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/map/Map<f32,i32>#find (; 157 ;) (type $ifii) (param $0 i32) (param $1 f32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (i32.mul
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (get_global $~lib/map/BUCKET_SIZE)
+     )
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (get_local $3)
+     (block
+      (block
+       (if
+        (if (result i32)
+         (tee_local $4
+          (i32.eqz
+           (i32.and
+            (i32.load offset=8
+             (get_local $3)
+            )
+            (get_global $~lib/map/EMPTY)
+           )
+          )
+         )
+         (f32.eq
+          (f32.load
+           (get_local $3)
+          )
+          (get_local $1)
+         )
+         (get_local $4)
+        )
+        (return
+         (get_local $3)
+        )
+       )
+       (set_local $3
+        (i32.and
+         (i32.load offset=8
+          (get_local $3)
+         )
+         (i32.xor
+          (get_global $~lib/map/EMPTY)
+          (i32.const -1)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/map/Map<f32,i32>#has (; 158 ;) (type $ifi) (param $0 i32) (param $1 f32) (result i32)
+  (i32.ne
+   (call $~lib/map/Map<f32,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<f32>|inlined.0 (result i32)
+     (br $~lib/internal/hash/hash<f32>|inlined.0
+      (call $~lib/internal/hash/hash32
+       (i32.reinterpret/f32
+        (get_local $1)
+       )
+      )
+     )
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/map/Map<f32,i32>#rehash (; 159 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 f32)
+  (local $12 i32)
+  (local $13 i32)
+  (set_local $2
+   (i32.add
+    (get_local $1)
+    (i32.const 1)
+   )
+  )
+  (set_local $3
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $2)
+     (get_global $~lib/map/BUCKET_SIZE)
+    )
+    (i32.const 0)
+   )
+  )
+  (set_local $4
+   (i32.trunc_s/f64
+    (f64.mul
+     (f64.convert_s/i32
+      (get_local $2)
+     )
+     (get_global $~lib/map/FILL_FACTOR)
+    )
+   )
+  )
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $4)
+     (block $~lib/map/ENTRY_SIZE<f32,i32>|inlined.1 (result i32)
+      (i32.const 12)
+     )
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $6
+   (i32.add
+    (i32.load offset=8
+     (get_local $0)
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+  )
+  (set_local $7
+   (i32.add
+    (get_local $6)
+    (i32.mul
+     (i32.load offset=16
+      (get_local $0)
+     )
+     (block $~lib/map/ENTRY_SIZE<f32,i32>|inlined.2 (result i32)
+      (i32.const 12)
+     )
+    )
+   )
+  )
+  (set_local $8
+   (i32.add
+    (get_local $5)
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.ne
+      (get_local $6)
+      (get_local $7)
+     )
+     (block
+      (block
+       (set_local $9
+        (get_local $6)
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $9)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (block
+         (set_local $10
+          (get_local $8)
+         )
+         (f32.store
+          (get_local $10)
+          (f32.load
+           (get_local $9)
+          )
+         )
+         (i32.store offset=4
+          (get_local $10)
+          (i32.load offset=4
+           (get_local $9)
+          )
+         )
+         (set_local $12
+          (i32.and
+           (block $~lib/internal/hash/hash<f32>|inlined.2 (result i32)
+            (set_local $11
+             (f32.load
+              (get_local $9)
+             )
+            )
+            (br $~lib/internal/hash/hash<f32>|inlined.2
+             (call $~lib/internal/hash/hash32
+              (i32.reinterpret/f32
+               (get_local $11)
+              )
+             )
+            )
+           )
+           (get_local $1)
+          )
+         )
+         (set_local $13
+          (i32.add
+           (get_local $3)
+           (i32.mul
+            (get_local $12)
+            (get_global $~lib/map/BUCKET_SIZE)
+           )
+          )
+         )
+         (i32.store offset=8
+          (get_local $10)
+          (i32.load offset=8
+           (get_local $13)
+          )
+         )
+         (i32.store offset=8
+          (get_local $13)
+          (get_local $8)
+         )
+         (set_local $8
+          (i32.add
+           (get_local $8)
+           (block $~lib/map/ENTRY_SIZE<f32,i32>|inlined.3 (result i32)
+            (i32.const 12)
+           )
+          )
+         )
+        )
+       )
+       (set_local $6
+        (i32.add
+         (get_local $6)
+         (block $~lib/map/ENTRY_SIZE<f32,i32>|inlined.4 (result i32)
+          (i32.const 12)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/Map<f32,i32>#set (; 160 ;) (type $ifiv) (param $0 i32) (param $1 f32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $3
+   (block $~lib/internal/hash/hash<f32>|inlined.1 (result i32)
+    (br $~lib/internal/hash/hash<f32>|inlined.1
+     (call $~lib/internal/hash/hash32
+      (i32.reinterpret/f32
+       (get_local $1)
+      )
+     )
+    )
+   )
+  )
+  (set_local $4
+   (call $~lib/map/Map<f32,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (get_local $3)
+   )
+  )
+  (if
+   (get_local $4)
+   (i32.store offset=4
+    (get_local $4)
+    (get_local $2)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
+      )
+     )
+     (call $~lib/map/Map<f32,i32>#rehash
+      (get_local $0)
+      (if (result i32)
+       (i32.lt_s
+        (i32.load offset=20
+         (get_local $0)
+        )
+        (i32.trunc_s/f64
+         (f64.mul
+          (f64.convert_s/i32
+           (i32.load offset=12
+            (get_local $0)
+           )
+          )
+          (get_global $~lib/map/FREE_FACTOR)
+         )
+        )
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+       (i32.or
+        (i32.shl
+         (i32.load offset=4
+          (get_local $0)
+         )
+         (i32.const 1)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $5
+     (i32.load offset=8
+      (get_local $0)
+     )
+    )
+    (set_local $4
+     (i32.add
+      (i32.add
+       (get_local $5)
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+      (i32.mul
+       (block (result i32)
+        (set_local $6
+         (i32.load offset=16
+          (get_local $0)
+         )
+        )
+        (i32.store offset=16
+         (get_local $0)
+         (i32.add
+          (get_local $6)
+          (i32.const 1)
+         )
+        )
+        (get_local $6)
+       )
+       (block $~lib/map/ENTRY_SIZE<f32,i32>|inlined.5 (result i32)
+        (i32.const 12)
+       )
+      )
+     )
+    )
+    (f32.store
+     (get_local $4)
+     (get_local $1)
+    )
+    (i32.store offset=4
+     (get_local $4)
+     (get_local $2)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $6
+     (i32.add
+      (i32.load
+       (get_local $0)
+      )
+      (i32.mul
+       (i32.and
+        (get_local $3)
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (get_global $~lib/map/BUCKET_SIZE)
+      )
+     )
+    )
+    (i32.store offset=8
+     (get_local $4)
+     (i32.load offset=8
+      (get_local $6)
+     )
+    )
+    (i32.store offset=8
+     (get_local $6)
+     (get_local $4)
+    )
+   )
+  )
+ )
+ (func $~lib/map/Map<f32,i32>#get (; 161 ;) (type $ifi) (param $0 i32) (param $1 f32) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (call $~lib/map/Map<f32,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<f32>|inlined.3 (result i32)
+     (br $~lib/internal/hash/hash<f32>|inlined.3
+      (call $~lib/internal/hash/hash32
+       (i32.reinterpret/f32
+        (get_local $1)
+       )
+      )
+     )
+    )
+   )
+  )
+  (if (result i32)
+   (get_local $2)
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (unreachable)
+  )
+ )
+ (func $~lib/map/Map<f32,i32>#get:size (; 162 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=20
+   (get_local $0)
+  )
+ )
+ (func $~lib/map/Map<f32,i32>#delete (; 163 ;) (type $ifi) (param $0 i32) (param $1 f32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (call $~lib/map/Map<f32,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<f32>|inlined.4 (result i32)
+     (br $~lib/internal/hash/hash<f32>|inlined.4
+      (call $~lib/internal/hash/hash32
+       (i32.reinterpret/f32
+        (get_local $1)
+       )
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=8
+   (get_local $2)
+   (i32.or
+    (i32.load offset=8
+     (get_local $2)
+    )
+    (get_global $~lib/map/EMPTY)
+   )
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $3
+   (i32.shr_u
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $4
+     (i32.ge_u
+      (i32.add
+       (get_local $3)
+       (i32.const 1)
+      )
+      (select
+       (tee_local $4
+        (get_global $~lib/map/INITIAL_CAPACITY)
+       )
+       (tee_local $5
+        (i32.load offset=20
+         (get_local $0)
+        )
+       )
+       (i32.gt_u
+        (get_local $4)
+        (get_local $5)
+       )
+      )
+     )
+    )
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $0)
+     )
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $0)
+        )
+       )
+       (get_global $~lib/map/FREE_FACTOR)
+      )
+     )
+    )
+    (get_local $4)
+   )
+   (call $~lib/map/Map<f32,i32>#rehash
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/map/Map<f32,i32>#keys (; 164 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 112)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<f32>#__iterator (; 165 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/map/Map<f32,i32>#values (; 166 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 114)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/map/Map<f32,i32>#entries (; 167 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 119)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<KeyValue<f32,i32>>#__iterator (; 168 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/map/Map<f32,i32>#__iterator (; 169 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/map/Map<f32,i32>#entries
+   (get_local $0)
+  )
+ )
+ (func $std/map/test<f32,i32>~anonymous|8 (; 170 ;) (type $ifiv) (param $0 i32) (param $1 f32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (block
+   (if
+    (i32.eqz
+     (i32.eq
+      (get_local $0)
+      (i32.add
+       (i32.const 20)
+       (i32.trunc_s/f32
+        (get_local $1)
+       )
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 68)
+      (i32.const 4)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $3)
+    (i32.add
+     (i32.load offset=4
+      (get_local $3)
+     )
+     (i32.const 1)
+    )
+   )
+  )
+ )
+ (func $~lib/map/Map<f32,i32>#forEach (; 171 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $2)
+       (i32.load offset=16
+        (get_local $0)
+       )
+      )
+     )
+    )
+    (block
+     (set_local $3
+      (i32.add
+       (i32.add
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+       )
+       (i32.mul
+        (get_local $2)
+        (block $~lib/map/ENTRY_SIZE<f32,i32>|inlined.6 (result i32)
+         (i32.const 12)
+        )
+       )
+      )
+     )
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=8
+         (get_local $3)
+        )
+        (get_global $~lib/map/EMPTY)
+       )
+      )
+      (block
+       (set_global $~argc
+        (i32.const 3)
+       )
+       (call_indirect (type $ifiv)
+        (i32.load offset=4
+         (get_local $3)
+        )
+        (f32.load
+         (get_local $3)
+        )
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (get_local $1)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $std/map/test<f32,i32> (; 172 ;) (type $v)
+  (local $0 i32)
+  (local $1 f32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 f32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (set_local $2
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
+   )
+  )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block
+   (set_local $0
+    (call $~lib/map/Map<f32,i32>#constructor
+     (i32.const 0)
+    )
+   )
+   (block $break|0
+    (set_local $1
+     (f32.const 0)
+    )
+    (loop $repeat|0
+     (br_if $break|0
+      (i32.eqz
+       (f32.lt
+        (get_local $1)
+        (f32.const 100)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<f32,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 8)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/map/Map<f32,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 10)
+        (i32.trunc_s/f32
+         (get_local $1)
+        )
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<f32,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 10)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<f32,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 10)
+          (i32.trunc_s/f32
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 11)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (f32.add
+       (get_local $1)
+       (f32.const 1)
+      )
+     )
+     (br $repeat|0)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<f32,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 13)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|1
+    (set_local $1
+     (f32.const 0)
+    )
+    (loop $repeat|1
+     (br_if $break|1
+      (i32.eqz
+       (f32.lt
+        (get_local $1)
+        (f32.const 100)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<f32,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 17)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<f32,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 10)
+          (i32.trunc_s/f32
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 18)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/map/Map<f32,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 20)
+        (i32.trunc_s/f32
+         (get_local $1)
+        )
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<f32,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 20)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<f32,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.trunc_s/f32
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 21)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (f32.add
+       (get_local $1)
+       (f32.const 1)
+      )
+     )
+     (br $repeat|1)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<f32,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 23)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|2
+    (set_local $1
+     (f32.const 0)
+    )
+    (loop $repeat|2
+     (br_if $break|2
+      (i32.eqz
+       (f32.lt
+        (get_local $1)
+        (f32.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<f32,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 27)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<f32,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.trunc_s/f32
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 28)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/map/Map<f32,i32>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<f32,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 30)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (f32.add
+       (get_local $1)
+       (f32.const 1)
+      )
+     )
+     (br $repeat|2)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<f32,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 32)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|3
+    (set_local $1
+     (f32.const 0)
+    )
+    (loop $repeat|3
+     (br_if $break|3
+      (i32.eqz
+       (f32.lt
+        (get_local $1)
+        (f32.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<f32,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 36)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/map/Map<f32,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 10)
+        (i32.trunc_s/f32
+         (get_local $1)
+        )
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<f32,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 38)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/map/Map<f32,i32>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<f32,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 40)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (f32.add
+       (get_local $1)
+       (f32.const 1)
+      )
+     )
+     (br $repeat|3)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<f32,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 42)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $2)
+    (i32.const 0)
+   )
+   (block $break|4
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<f32>#__iterator
+      (call $~lib/map/Map<f32,i32>#keys
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|4
+     (br_if $break|4
+      (call $~lib/iterator/Iterator<f32>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (block
+       (set_local $6
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.store
+        (get_local $6)
+        (get_local $2)
+       )
+       (f32.store offset=4
+        (get_local $6)
+        (f32.const 0)
+       )
+      )
+      (f32.store offset=4
+       (get_local $6)
+       (call $~lib/iterator/Iterator<f32>#next|virtual
+        (get_local $4)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $7
+          (f32.ge
+           (f32.load offset=4
+            (get_local $6)
+           )
+           (f32.const 50)
+          )
+         )
+         (f32.lt
+          (f32.load offset=4
+           (get_local $6)
+          )
+          (f32.const 100)
+         )
+         (get_local $7)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 47)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<f32,i32>#get
+          (get_local $0)
+          (f32.load offset=4
+           (get_local $6)
+          )
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.trunc_s/f32
+           (f32.load offset=4
+            (get_local $6)
+           )
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 48)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|4)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 51)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|5
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<i32>#__iterator
+      (call $~lib/map/Map<f32,i32>#values
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|5
+     (br_if $break|5
+      (call $~lib/iterator/Iterator<i32>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (block
+       (set_local $9
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.store
+        (get_local $9)
+        (get_local $2)
+       )
+       (i32.store offset=4
+        (get_local $9)
+        (i32.const 0)
+       )
+      )
+      (i32.store offset=4
+       (get_local $9)
+       (call $~lib/iterator/Iterator<i32>#next|virtual
+        (get_local $4)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $7
+          (i32.ge_s
+           (i32.load offset=4
+            (get_local $9)
+           )
+           (i32.const 70)
+          )
+         )
+         (i32.lt_s
+          (i32.load offset=4
+           (get_local $9)
+          )
+          (i32.const 120)
+         )
+         (get_local $7)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 53)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|5)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 56)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|6
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<KeyValue<f32,i32>>#__iterator
+      (call $~lib/map/Map<f32,i32>#entries
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|6
+     (br_if $break|6
+      (call $~lib/iterator/Iterator<KeyValue<f32,i32>>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (set_local $7
+      (call $~lib/iterator/Iterator<KeyValue<f32,i32>>#next|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load offset=4
+          (get_local $7)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.trunc_s/f32
+           (f32.load
+            (get_local $7)
+           )
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 58)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|6)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 61)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|7
+    (set_local $7
+     (call $~lib/map/Map<f32,i32>#__iterator
+      (get_local $0)
+     )
+    )
+    (loop $repeat|7
+     (br_if $break|7
+      (call $~lib/iterator/Iterator<KeyValue<f32,i32>>#get:done|virtual
+       (get_local $7)
+      )
+     )
+     (set_local $4
+      (call $~lib/iterator/Iterator<KeyValue<f32,i32>>#next|virtual
+       (get_local $7)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load offset=4
+          (get_local $4)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.trunc_s/f32
+           (f32.load
+            (get_local $4)
+           )
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 63)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|7)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 66)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/map/Map<f32,i32>#forEach
+    (get_local $0)
+    (block (result i32)
+     (set_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (i32.store
+      (get_local $4)
+      (i32.const 8)
+     )
+     (i32.store offset=4
+      (get_local $4)
+      (get_local $2)
+     )
+     (get_local $4)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 71)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/map/Map<f32,i32>#clear
+    (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<f32,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 75)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+  )
+ )
+ (func $~lib/map/Map<f64,i32>#clear (; 173 ;) (type $iv) (param $0 i32)
+  (i32.store
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 16)
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.sub
+    (get_global $~lib/map/INITIAL_CAPACITY)
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 64)
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_global $~lib/map/INITIAL_CAPACITY)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/map/Map<f64,i32>#constructor (; 174 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/map/Map<f64,i32>#clear
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $1
+        (call $~lib/memory/memory.allocate
+         (i32.const 24)
+        )
+       )
+       (i32.store
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=8
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=12
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=16
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=20
+        (get_local $1)
+        (i32.const 0)
+       )
+       (get_local $1)
+      )
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/map/Map<f64,i32>#find (; 175 ;) (type $iFii) (param $0 i32) (param $1 f64) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (i32.mul
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (get_global $~lib/map/BUCKET_SIZE)
+     )
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (get_local $3)
+     (block
+      (block
+       (if
+        (if (result i32)
+         (tee_local $4
+          (i32.eqz
+           (i32.and
+            (i32.load offset=12
+             (get_local $3)
+            )
+            (get_global $~lib/map/EMPTY)
+           )
+          )
+         )
+         (f64.eq
+          (f64.load
+           (get_local $3)
+          )
+          (get_local $1)
+         )
+         (get_local $4)
+        )
+        (return
+         (get_local $3)
+        )
+       )
+       (set_local $3
+        (i32.and
+         (i32.load offset=12
+          (get_local $3)
+         )
+         (i32.xor
+          (get_global $~lib/map/EMPTY)
+          (i32.const -1)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/map/Map<f64,i32>#has (; 176 ;) (type $iFi) (param $0 i32) (param $1 f64) (result i32)
+  (i32.ne
+   (call $~lib/map/Map<f64,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<f64>|inlined.0 (result i32)
+     (br $~lib/internal/hash/hash<f64>|inlined.0
+      (call $~lib/internal/hash/hash64
+       (i64.reinterpret/f64
+        (get_local $1)
+       )
+      )
+     )
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/map/Map<f64,i32>#rehash (; 177 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 f64)
+  (local $12 i32)
+  (local $13 i32)
+  (set_local $2
+   (i32.add
+    (get_local $1)
+    (i32.const 1)
+   )
+  )
+  (set_local $3
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $2)
+     (get_global $~lib/map/BUCKET_SIZE)
+    )
+    (i32.const 0)
+   )
+  )
+  (set_local $4
+   (i32.trunc_s/f64
+    (f64.mul
+     (f64.convert_s/i32
+      (get_local $2)
+     )
+     (get_global $~lib/map/FILL_FACTOR)
+    )
+   )
+  )
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $4)
+     (block $~lib/map/ENTRY_SIZE<f64,i32>|inlined.1 (result i32)
+      (i32.const 16)
+     )
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $6
+   (i32.add
+    (i32.load offset=8
+     (get_local $0)
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+  )
+  (set_local $7
+   (i32.add
+    (get_local $6)
+    (i32.mul
+     (i32.load offset=16
+      (get_local $0)
+     )
+     (block $~lib/map/ENTRY_SIZE<f64,i32>|inlined.2 (result i32)
+      (i32.const 16)
+     )
+    )
+   )
+  )
+  (set_local $8
+   (i32.add
+    (get_local $5)
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.ne
+      (get_local $6)
+      (get_local $7)
+     )
+     (block
+      (block
+       (set_local $9
+        (get_local $6)
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=12
+           (get_local $9)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (block
+         (set_local $10
+          (get_local $8)
+         )
+         (f64.store
+          (get_local $10)
+          (f64.load
+           (get_local $9)
+          )
+         )
+         (i32.store offset=8
+          (get_local $10)
+          (i32.load offset=8
+           (get_local $9)
+          )
+         )
+         (set_local $12
+          (i32.and
+           (block $~lib/internal/hash/hash<f64>|inlined.2 (result i32)
+            (set_local $11
+             (f64.load
+              (get_local $9)
+             )
+            )
+            (br $~lib/internal/hash/hash<f64>|inlined.2
+             (call $~lib/internal/hash/hash64
+              (i64.reinterpret/f64
+               (get_local $11)
+              )
+             )
+            )
+           )
+           (get_local $1)
+          )
+         )
+         (set_local $13
+          (i32.add
+           (get_local $3)
+           (i32.mul
+            (get_local $12)
+            (get_global $~lib/map/BUCKET_SIZE)
+           )
+          )
+         )
+         (i32.store offset=12
+          (get_local $10)
+          (i32.load offset=8
+           (get_local $13)
+          )
+         )
+         (i32.store offset=8
+          (get_local $13)
+          (get_local $8)
+         )
+         (set_local $8
+          (i32.add
+           (get_local $8)
+           (block $~lib/map/ENTRY_SIZE<f64,i32>|inlined.3 (result i32)
+            (i32.const 16)
+           )
+          )
+         )
+        )
+       )
+       (set_local $6
+        (i32.add
+         (get_local $6)
+         (block $~lib/map/ENTRY_SIZE<f64,i32>|inlined.4 (result i32)
+          (i32.const 16)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/Map<f64,i32>#set (; 178 ;) (type $iFiv) (param $0 i32) (param $1 f64) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $3
+   (block $~lib/internal/hash/hash<f64>|inlined.1 (result i32)
+    (br $~lib/internal/hash/hash<f64>|inlined.1
+     (call $~lib/internal/hash/hash64
+      (i64.reinterpret/f64
+       (get_local $1)
+      )
+     )
+    )
+   )
+  )
+  (set_local $4
+   (call $~lib/map/Map<f64,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (get_local $3)
+   )
+  )
+  (if
+   (get_local $4)
+   (i32.store offset=8
+    (get_local $4)
+    (get_local $2)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
+      )
+     )
+     (call $~lib/map/Map<f64,i32>#rehash
+      (get_local $0)
+      (if (result i32)
+       (i32.lt_s
+        (i32.load offset=20
+         (get_local $0)
+        )
+        (i32.trunc_s/f64
+         (f64.mul
+          (f64.convert_s/i32
+           (i32.load offset=12
+            (get_local $0)
+           )
+          )
+          (get_global $~lib/map/FREE_FACTOR)
+         )
+        )
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+       (i32.or
+        (i32.shl
+         (i32.load offset=4
+          (get_local $0)
+         )
+         (i32.const 1)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $5
+     (i32.load offset=8
+      (get_local $0)
+     )
+    )
+    (set_local $4
+     (i32.add
+      (i32.add
+       (get_local $5)
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+      (i32.mul
+       (block (result i32)
+        (set_local $6
+         (i32.load offset=16
+          (get_local $0)
+         )
+        )
+        (i32.store offset=16
+         (get_local $0)
+         (i32.add
+          (get_local $6)
+          (i32.const 1)
+         )
+        )
+        (get_local $6)
+       )
+       (block $~lib/map/ENTRY_SIZE<f64,i32>|inlined.5 (result i32)
+        (i32.const 16)
+       )
+      )
+     )
+    )
+    (f64.store
+     (get_local $4)
+     (get_local $1)
+    )
+    (i32.store offset=8
+     (get_local $4)
+     (get_local $2)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $6
+     (i32.add
+      (i32.load
+       (get_local $0)
+      )
+      (i32.mul
+       (i32.and
+        (get_local $3)
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (get_global $~lib/map/BUCKET_SIZE)
+      )
+     )
+    )
+    (i32.store offset=12
+     (get_local $4)
+     (i32.load offset=8
+      (get_local $6)
+     )
+    )
+    (i32.store offset=8
+     (get_local $6)
+     (get_local $4)
+    )
+   )
+  )
+ )
+ (func $~lib/map/Map<f64,i32>#get (; 179 ;) (type $iFi) (param $0 i32) (param $1 f64) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (call $~lib/map/Map<f64,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<f64>|inlined.3 (result i32)
+     (br $~lib/internal/hash/hash<f64>|inlined.3
+      (call $~lib/internal/hash/hash64
+       (i64.reinterpret/f64
+        (get_local $1)
+       )
+      )
+     )
+    )
+   )
+  )
+  (if (result i32)
+   (get_local $2)
+   (i32.load offset=8
+    (get_local $2)
+   )
+   (unreachable)
+  )
+ )
+ (func $~lib/map/Map<f64,i32>#get:size (; 180 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=20
+   (get_local $0)
+  )
+ )
+ (func $~lib/map/Map<f64,i32>#delete (; 181 ;) (type $iFi) (param $0 i32) (param $1 f64) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (call $~lib/map/Map<f64,i32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<f64>|inlined.4 (result i32)
+     (br $~lib/internal/hash/hash<f64>|inlined.4
+      (call $~lib/internal/hash/hash64
+       (i64.reinterpret/f64
+        (get_local $1)
+       )
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=12
+   (get_local $2)
+   (i32.or
+    (i32.load offset=12
+     (get_local $2)
+    )
+    (get_global $~lib/map/EMPTY)
+   )
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $3
+   (i32.shr_u
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $4
+     (i32.ge_u
+      (i32.add
+       (get_local $3)
+       (i32.const 1)
+      )
+      (select
+       (tee_local $4
+        (get_global $~lib/map/INITIAL_CAPACITY)
+       )
+       (tee_local $5
+        (i32.load offset=20
+         (get_local $0)
+        )
+       )
+       (i32.gt_u
+        (get_local $4)
+        (get_local $5)
+       )
+      )
+     )
+    )
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $0)
+     )
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $0)
+        )
+       )
+       (get_global $~lib/map/FREE_FACTOR)
+      )
+     )
+    )
+    (get_local $4)
+   )
+   (call $~lib/map/Map<f64,i32>#rehash
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/map/Map<f64,i32>#keys (; 182 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 125)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<f64>#__iterator (; 183 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/map/Map<f64,i32>#values (; 184 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 127)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/map/Map<f64,i32>#entries (; 185 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 132)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<KeyValue<f64,i32>>#__iterator (; 186 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/map/Map<f64,i32>#__iterator (; 187 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/map/Map<f64,i32>#entries
+   (get_local $0)
+  )
+ )
+ (func $std/map/test<f64,i32>~anonymous|9 (; 188 ;) (type $iFiv) (param $0 i32) (param $1 f64) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (block
+   (if
+    (i32.eqz
+     (i32.eq
+      (get_local $0)
+      (i32.add
+       (i32.const 20)
+       (i32.trunc_s/f64
+        (get_local $1)
+       )
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 68)
+      (i32.const 4)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $3)
+    (i32.add
+     (i32.load offset=4
+      (get_local $3)
+     )
+     (i32.const 1)
+    )
+   )
+  )
+ )
+ (func $~lib/map/Map<f64,i32>#forEach (; 189 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $2)
+       (i32.load offset=16
+        (get_local $0)
+       )
+      )
+     )
+    )
+    (block
+     (set_local $3
+      (i32.add
+       (i32.add
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+       )
+       (i32.mul
+        (get_local $2)
+        (block $~lib/map/ENTRY_SIZE<f64,i32>|inlined.6 (result i32)
+         (i32.const 16)
+        )
+       )
+      )
+     )
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=12
+         (get_local $3)
+        )
+        (get_global $~lib/map/EMPTY)
+       )
+      )
+      (block
+       (set_global $~argc
+        (i32.const 3)
+       )
+       (call_indirect (type $iFiv)
+        (i32.load offset=8
+         (get_local $3)
+        )
+        (f64.load
+         (get_local $3)
+        )
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (get_local $1)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $std/map/test<f64,i32> (; 190 ;) (type $v)
+  (local $0 i32)
+  (local $1 f64)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 f64)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (set_local $2
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
+   )
+  )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block
+   (set_local $0
+    (call $~lib/map/Map<f64,i32>#constructor
+     (i32.const 0)
+    )
+   )
+   (block $break|0
+    (set_local $1
+     (f64.const 0)
+    )
+    (loop $repeat|0
+     (br_if $break|0
+      (i32.eqz
+       (f64.lt
+        (get_local $1)
+        (f64.const 100)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<f64,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 8)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/map/Map<f64,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 10)
+        (i32.trunc_s/f64
+         (get_local $1)
+        )
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<f64,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 10)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<f64,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 10)
+          (i32.trunc_s/f64
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 11)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (f64.add
+       (get_local $1)
+       (f64.const 1)
+      )
+     )
+     (br $repeat|0)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<f64,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 13)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|1
+    (set_local $1
+     (f64.const 0)
+    )
+    (loop $repeat|1
+     (br_if $break|1
+      (i32.eqz
+       (f64.lt
+        (get_local $1)
+        (f64.const 100)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<f64,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 17)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<f64,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 10)
+          (i32.trunc_s/f64
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 18)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/map/Map<f64,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 20)
+        (i32.trunc_s/f64
+         (get_local $1)
+        )
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<f64,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 20)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<f64,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.trunc_s/f64
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 21)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (f64.add
+       (get_local $1)
+       (f64.const 1)
+      )
+     )
+     (br $repeat|1)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<f64,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 23)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|2
+    (set_local $1
+     (f64.const 0)
+    )
+    (loop $repeat|2
+     (br_if $break|2
+      (i32.eqz
+       (f64.lt
+        (get_local $1)
+        (f64.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<f64,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 27)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<f64,i32>#get
+          (get_local $0)
+          (get_local $1)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.trunc_s/f64
+           (get_local $1)
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 28)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/map/Map<f64,i32>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<f64,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 30)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (f64.add
+       (get_local $1)
+       (f64.const 1)
+      )
+     )
+     (br $repeat|2)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<f64,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 32)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|3
+    (set_local $1
+     (f64.const 0)
+    )
+    (loop $repeat|3
+     (br_if $break|3
+      (i32.eqz
+       (f64.lt
+        (get_local $1)
+        (f64.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<f64,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 36)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/map/Map<f64,i32>#set
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (i32.const 10)
+        (i32.trunc_s/f64
+         (get_local $1)
+        )
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/map/Map<f64,i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 38)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/map/Map<f64,i32>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/map/Map<f64,i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 40)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (f64.add
+       (get_local $1)
+       (f64.const 1)
+      )
+     )
+     (br $repeat|3)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<f64,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 42)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $2)
+    (i32.const 0)
+   )
+   (block $break|4
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<f64>#__iterator
+      (call $~lib/map/Map<f64,i32>#keys
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|4
+     (br_if $break|4
+      (call $~lib/iterator/Iterator<f64>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (block
+       (set_local $6
+        (call $~lib/memory/memory.allocate
+         (i32.const 16)
+        )
+       )
+       (i32.store
+        (get_local $6)
+        (get_local $2)
+       )
+       (f64.store offset=8
+        (get_local $6)
+        (f64.const 0)
+       )
+      )
+      (f64.store offset=8
+       (get_local $6)
+       (call $~lib/iterator/Iterator<f64>#next|virtual
+        (get_local $4)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $7
+          (f64.ge
+           (f64.load offset=8
+            (get_local $6)
+           )
+           (f64.const 50)
+          )
+         )
+         (f64.lt
+          (f64.load offset=8
+           (get_local $6)
+          )
+          (f64.const 100)
+         )
+         (get_local $7)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 47)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eq
+         (call $~lib/map/Map<f64,i32>#get
+          (get_local $0)
+          (f64.load offset=8
+           (get_local $6)
+          )
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.trunc_s/f64
+           (f64.load offset=8
+            (get_local $6)
+           )
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 48)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|4)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 51)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|5
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<i32>#__iterator
+      (call $~lib/map/Map<f64,i32>#values
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|5
+     (br_if $break|5
+      (call $~lib/iterator/Iterator<i32>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (block
+       (set_local $9
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.store
+        (get_local $9)
+        (get_local $2)
+       )
+       (i32.store offset=4
+        (get_local $9)
+        (i32.const 0)
+       )
+      )
+      (i32.store offset=4
+       (get_local $9)
+       (call $~lib/iterator/Iterator<i32>#next|virtual
+        (get_local $4)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $7
+          (i32.ge_s
+           (i32.load offset=4
+            (get_local $9)
+           )
+           (i32.const 70)
+          )
+         )
+         (i32.lt_s
+          (i32.load offset=4
+           (get_local $9)
+          )
+          (i32.const 120)
+         )
+         (get_local $7)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 53)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|5)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 56)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|6
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<KeyValue<f64,i32>>#__iterator
+      (call $~lib/map/Map<f64,i32>#entries
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|6
+     (br_if $break|6
+      (call $~lib/iterator/Iterator<KeyValue<f64,i32>>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (set_local $7
+      (call $~lib/iterator/Iterator<KeyValue<f64,i32>>#next|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load offset=8
+          (get_local $7)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.trunc_s/f64
+           (f64.load
+            (get_local $7)
+           )
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 58)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|6)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 61)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|7
+    (set_local $7
+     (call $~lib/map/Map<f64,i32>#__iterator
+      (get_local $0)
+     )
+    )
+    (loop $repeat|7
+     (br_if $break|7
+      (call $~lib/iterator/Iterator<KeyValue<f64,i32>>#get:done|virtual
+       (get_local $7)
+      )
+     )
+     (set_local $4
+      (call $~lib/iterator/Iterator<KeyValue<f64,i32>>#next|virtual
+       (get_local $7)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load offset=8
+          (get_local $4)
+         )
+         (i32.add
+          (i32.const 20)
+          (i32.trunc_s/f64
+           (f64.load
+            (get_local $4)
+           )
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 63)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|7)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 66)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/map/Map<f64,i32>#forEach
+    (get_local $0)
+    (block (result i32)
+     (set_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (i32.store
+      (get_local $4)
+      (i32.const 9)
+     )
+     (i32.store offset=4
+      (get_local $4)
+      (get_local $2)
+     )
+     (get_local $4)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 71)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/map/Map<f64,i32>#clear
+    (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/map/Map<f64,i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 75)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<i8,i32,i8>#get:done (; 191 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<i8,i32>|inlined.7 (result i32)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<i8,i32,i8>#nextEntry (; 192 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<i8,i32,i8>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<i8,i32>|inlined.8 (result i32)
+     (i32.const 12)
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapKeyIterator<i8,i32>#next (; 193 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load8_s
+   (call $~lib/map/MapIterator<i8,i32,i8>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<i8,i32,i32>#get:done (; 194 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<i8,i32>|inlined.9 (result i32)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<u8,i32,i32>#get:done (; 195 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<u8,i32>|inlined.7 (result i32)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<i16,i32,i32>#get:done (; 196 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<i16,i32>|inlined.7 (result i32)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<u16,i32,i32>#get:done (; 197 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<u16,i32>|inlined.7 (result i32)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<i32,i32,i32>#get:done (; 198 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<i32,i32>|inlined.7 (result i32)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<u32,i32,i32>#get:done (; 199 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<u32,i32>|inlined.7 (result i32)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<i64,i32,i32>#get:done (; 200 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<i64,i32>|inlined.7 (result i32)
+           (i32.const 16)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=12
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<u64,i32,i32>#get:done (; 201 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<u64,i32>|inlined.7 (result i32)
+           (i32.const 16)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=12
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<f32,i32,i32>#get:done (; 202 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<f32,i32>|inlined.7 (result i32)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<f64,i32,i32>#get:done (; 203 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<f64,i32>|inlined.7 (result i32)
+           (i32.const 16)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=12
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<i8,i32,i32>#nextEntry (; 204 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<i8,i32,i32>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<i8,i32>|inlined.10 (result i32)
+     (i32.const 12)
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapValueIterator<i8,i32>#next (; 205 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=4
+   (call $~lib/map/MapIterator<i8,i32,i32>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<u8,i32,i32>#nextEntry (; 206 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<u8,i32,i32>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<u8,i32>|inlined.8 (result i32)
+     (i32.const 12)
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapValueIterator<u8,i32>#next (; 207 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=4
+   (call $~lib/map/MapIterator<u8,i32,i32>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<i16,i32,i32>#nextEntry (; 208 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<i16,i32,i32>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<i16,i32>|inlined.8 (result i32)
+     (i32.const 12)
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapValueIterator<i16,i32>#next (; 209 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=4
+   (call $~lib/map/MapIterator<i16,i32,i32>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<u16,i32,i32>#nextEntry (; 210 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<u16,i32,i32>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<u16,i32>|inlined.8 (result i32)
+     (i32.const 12)
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapValueIterator<u16,i32>#next (; 211 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=4
+   (call $~lib/map/MapIterator<u16,i32,i32>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<i32,i32,i32>#nextEntry (; 212 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<i32,i32,i32>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<i32,i32>|inlined.8 (result i32)
+     (i32.const 12)
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapKeyIterator<i32,i32>#next (; 213 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load
+   (call $~lib/map/MapIterator<i32,i32,i32>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapValueIterator<i32,i32>#next (; 214 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=4
+   (call $~lib/map/MapIterator<i32,i32,i32>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<u32,i32,i32>#nextEntry (; 215 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<u32,i32,i32>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<u32,i32>|inlined.8 (result i32)
+     (i32.const 12)
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapValueIterator<u32,i32>#next (; 216 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=4
+   (call $~lib/map/MapIterator<u32,i32,i32>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<i64,i32,i32>#nextEntry (; 217 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<i64,i32,i32>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<i64,i32>|inlined.8 (result i32)
+     (i32.const 16)
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapValueIterator<i64,i32>#next (; 218 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=8
+   (call $~lib/map/MapIterator<i64,i32,i32>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<u64,i32,i32>#nextEntry (; 219 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<u64,i32,i32>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<u64,i32>|inlined.8 (result i32)
+     (i32.const 16)
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapValueIterator<u64,i32>#next (; 220 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=8
+   (call $~lib/map/MapIterator<u64,i32,i32>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<f32,i32,i32>#nextEntry (; 221 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<f32,i32,i32>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<f32,i32>|inlined.8 (result i32)
+     (i32.const 12)
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapValueIterator<f32,i32>#next (; 222 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=4
+   (call $~lib/map/MapIterator<f32,i32,i32>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<f64,i32,i32>#nextEntry (; 223 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<f64,i32,i32>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<f64,i32>|inlined.8 (result i32)
+     (i32.const 16)
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapValueIterator<f64,i32>#next (; 224 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=8
+   (call $~lib/map/MapIterator<f64,i32,i32>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<i8,i32,KeyValue<i8,i32>>#get:done (; 225 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<i8,i32>|inlined.11 (result i32)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<i8,i32,KeyValue<i8,i32>>#nextEntry (; 226 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<i8,i32,KeyValue<i8,i32>>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<i8,i32>|inlined.12 (result i32)
+     (i32.const 12)
+    )
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<i8,i32>#constructor (; 227 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 8)
+       )
+      )
+      (i32.store8
+       (get_local $3)
+       (get_local $1)
+      )
+      (i32.store offset=4
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapEntryIterator<i8,i32>#next (; 228 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (call $~lib/map/MapIterator<i8,i32,KeyValue<i8,i32>>#nextEntry
+    (get_local $0)
+   )
+  )
+  (call $~lib/map/KeyValue<i8,i32>#constructor
+   (i32.const 0)
+   (i32.load8_s
+    (get_local $1)
+   )
+   (i32.load offset=4
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<u8,i32,u8>#get:done (; 229 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<u8,i32>|inlined.9 (result i32)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<u8,i32,u8>#nextEntry (; 230 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<u8,i32,u8>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<u8,i32>|inlined.10 (result i32)
+     (i32.const 12)
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapKeyIterator<u8,i32>#next (; 231 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load8_u
+   (call $~lib/map/MapIterator<u8,i32,u8>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<u8,i32,KeyValue<u8,i32>>#get:done (; 232 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<u8,i32>|inlined.11 (result i32)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<u8,i32,KeyValue<u8,i32>>#nextEntry (; 233 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<u8,i32,KeyValue<u8,i32>>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<u8,i32>|inlined.12 (result i32)
+     (i32.const 12)
+    )
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<u8,i32>#constructor (; 234 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 8)
+       )
+      )
+      (i32.store8
+       (get_local $3)
+       (get_local $1)
+      )
+      (i32.store offset=4
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapEntryIterator<u8,i32>#next (; 235 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (call $~lib/map/MapIterator<u8,i32,KeyValue<u8,i32>>#nextEntry
+    (get_local $0)
+   )
+  )
+  (call $~lib/map/KeyValue<u8,i32>#constructor
+   (i32.const 0)
+   (i32.load8_u
+    (get_local $1)
+   )
+   (i32.load offset=4
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<i16,i32,i16>#get:done (; 236 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<i16,i32>|inlined.9 (result i32)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<i16,i32,i16>#nextEntry (; 237 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<i16,i32,i16>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<i16,i32>|inlined.10 (result i32)
+     (i32.const 12)
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapKeyIterator<i16,i32>#next (; 238 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load16_s
+   (call $~lib/map/MapIterator<i16,i32,i16>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<i16,i32,KeyValue<i16,i32>>#get:done (; 239 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<i16,i32>|inlined.11 (result i32)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<i16,i32,KeyValue<i16,i32>>#nextEntry (; 240 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<i16,i32,KeyValue<i16,i32>>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<i16,i32>|inlined.12 (result i32)
+     (i32.const 12)
+    )
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<i16,i32>#constructor (; 241 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 8)
+       )
+      )
+      (i32.store16
+       (get_local $3)
+       (get_local $1)
+      )
+      (i32.store offset=4
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapEntryIterator<i16,i32>#next (; 242 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (call $~lib/map/MapIterator<i16,i32,KeyValue<i16,i32>>#nextEntry
+    (get_local $0)
+   )
+  )
+  (call $~lib/map/KeyValue<i16,i32>#constructor
+   (i32.const 0)
+   (i32.load16_s
+    (get_local $1)
+   )
+   (i32.load offset=4
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<u16,i32,u16>#get:done (; 243 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<u16,i32>|inlined.9 (result i32)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<u16,i32,u16>#nextEntry (; 244 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<u16,i32,u16>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<u16,i32>|inlined.10 (result i32)
+     (i32.const 12)
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapKeyIterator<u16,i32>#next (; 245 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load16_u
+   (call $~lib/map/MapIterator<u16,i32,u16>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<u16,i32,KeyValue<u16,i32>>#get:done (; 246 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<u16,i32>|inlined.11 (result i32)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<u16,i32,KeyValue<u16,i32>>#nextEntry (; 247 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<u16,i32,KeyValue<u16,i32>>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<u16,i32>|inlined.12 (result i32)
+     (i32.const 12)
+    )
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<u16,i32>#constructor (; 248 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 8)
+       )
+      )
+      (i32.store16
+       (get_local $3)
+       (get_local $1)
+      )
+      (i32.store offset=4
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapEntryIterator<u16,i32>#next (; 249 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (call $~lib/map/MapIterator<u16,i32,KeyValue<u16,i32>>#nextEntry
+    (get_local $0)
+   )
+  )
+  (call $~lib/map/KeyValue<u16,i32>#constructor
+   (i32.const 0)
+   (i32.load16_u
+    (get_local $1)
+   )
+   (i32.load offset=4
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<i32,i32,KeyValue<i32,i32>>#get:done (; 250 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<i32,i32>|inlined.9 (result i32)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<i32,i32,KeyValue<i32,i32>>#nextEntry (; 251 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<i32,i32,KeyValue<i32,i32>>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<i32,i32>|inlined.10 (result i32)
+     (i32.const 12)
+    )
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<i32,i32>#constructor (; 252 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 8)
+       )
+      )
+      (i32.store
+       (get_local $3)
+       (get_local $1)
+      )
+      (i32.store offset=4
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapEntryIterator<i32,i32>#next (; 253 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (call $~lib/map/MapIterator<i32,i32,KeyValue<i32,i32>>#nextEntry
+    (get_local $0)
+   )
+  )
+  (call $~lib/map/KeyValue<i32,i32>#constructor
+   (i32.const 0)
+   (i32.load
+    (get_local $1)
+   )
+   (i32.load offset=4
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<u32,i32,u32>#get:done (; 254 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<u32,i32>|inlined.9 (result i32)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<u32,i32,u32>#nextEntry (; 255 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<u32,i32,u32>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<u32,i32>|inlined.10 (result i32)
+     (i32.const 12)
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapKeyIterator<u32,i32>#next (; 256 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load
+   (call $~lib/map/MapIterator<u32,i32,u32>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<u32,i32,KeyValue<u32,i32>>#get:done (; 257 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<u32,i32>|inlined.11 (result i32)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<u32,i32,KeyValue<u32,i32>>#nextEntry (; 258 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<u32,i32,KeyValue<u32,i32>>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<u32,i32>|inlined.12 (result i32)
+     (i32.const 12)
+    )
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<u32,i32>#constructor (; 259 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 8)
+       )
+      )
+      (i32.store
+       (get_local $3)
+       (get_local $1)
+      )
+      (i32.store offset=4
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapEntryIterator<u32,i32>#next (; 260 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (call $~lib/map/MapIterator<u32,i32,KeyValue<u32,i32>>#nextEntry
+    (get_local $0)
+   )
+  )
+  (call $~lib/map/KeyValue<u32,i32>#constructor
+   (i32.const 0)
+   (i32.load
+    (get_local $1)
+   )
+   (i32.load offset=4
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<i64,i32,i64>#get:done (; 261 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<i64,i32>|inlined.9 (result i32)
+           (i32.const 16)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=12
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<i64,i32,i64>#nextEntry (; 262 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<i64,i32,i64>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<i64,i32>|inlined.10 (result i32)
+     (i32.const 16)
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapKeyIterator<i64,i32>#next (; 263 ;) (type $iI) (param $0 i32) (result i64)
+  (i64.load
+   (call $~lib/map/MapIterator<i64,i32,i64>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<i64,i32,KeyValue<i64,i32>>#get:done (; 264 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<i64,i32>|inlined.11 (result i32)
+           (i32.const 16)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=12
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<i64,i32,KeyValue<i64,i32>>#nextEntry (; 265 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<i64,i32,KeyValue<i64,i32>>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<i64,i32>|inlined.12 (result i32)
+     (i32.const 16)
+    )
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<i64,i32>#constructor (; 266 ;) (type $iIii) (param $0 i32) (param $1 i64) (param $2 i32) (result i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 12)
+       )
+      )
+      (i64.store
+       (get_local $3)
+       (get_local $1)
+      )
+      (i32.store offset=8
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapEntryIterator<i64,i32>#next (; 267 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (call $~lib/map/MapIterator<i64,i32,KeyValue<i64,i32>>#nextEntry
+    (get_local $0)
+   )
+  )
+  (call $~lib/map/KeyValue<i64,i32>#constructor
+   (i32.const 0)
+   (i64.load
+    (get_local $1)
+   )
+   (i32.load offset=8
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<u64,i32,u64>#get:done (; 268 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<u64,i32>|inlined.9 (result i32)
+           (i32.const 16)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=12
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<u64,i32,u64>#nextEntry (; 269 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<u64,i32,u64>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<u64,i32>|inlined.10 (result i32)
+     (i32.const 16)
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapKeyIterator<u64,i32>#next (; 270 ;) (type $iI) (param $0 i32) (result i64)
+  (i64.load
+   (call $~lib/map/MapIterator<u64,i32,u64>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<u64,i32,KeyValue<u64,i32>>#get:done (; 271 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<u64,i32>|inlined.11 (result i32)
+           (i32.const 16)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=12
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<u64,i32,KeyValue<u64,i32>>#nextEntry (; 272 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<u64,i32,KeyValue<u64,i32>>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<u64,i32>|inlined.12 (result i32)
+     (i32.const 16)
+    )
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<u64,i32>#constructor (; 273 ;) (type $iIii) (param $0 i32) (param $1 i64) (param $2 i32) (result i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 12)
+       )
+      )
+      (i64.store
+       (get_local $3)
+       (get_local $1)
+      )
+      (i32.store offset=8
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapEntryIterator<u64,i32>#next (; 274 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (call $~lib/map/MapIterator<u64,i32,KeyValue<u64,i32>>#nextEntry
+    (get_local $0)
+   )
+  )
+  (call $~lib/map/KeyValue<u64,i32>#constructor
+   (i32.const 0)
+   (i64.load
+    (get_local $1)
+   )
+   (i32.load offset=8
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<f32,i32,f32>#get:done (; 275 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<f32,i32>|inlined.9 (result i32)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<f32,i32,f32>#nextEntry (; 276 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<f32,i32,f32>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<f32,i32>|inlined.10 (result i32)
+     (i32.const 12)
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapKeyIterator<f32,i32>#next (; 277 ;) (type $if) (param $0 i32) (result f32)
+  (f32.load
+   (call $~lib/map/MapIterator<f32,i32,f32>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<f32,i32,KeyValue<f32,i32>>#get:done (; 278 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<f32,i32>|inlined.11 (result i32)
+           (i32.const 12)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<f32,i32,KeyValue<f32,i32>>#nextEntry (; 279 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<f32,i32,KeyValue<f32,i32>>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<f32,i32>|inlined.12 (result i32)
+     (i32.const 12)
+    )
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<f32,i32>#constructor (; 280 ;) (type $ifii) (param $0 i32) (param $1 f32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 8)
+       )
+      )
+      (f32.store
+       (get_local $3)
+       (get_local $1)
+      )
+      (i32.store offset=4
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapEntryIterator<f32,i32>#next (; 281 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (call $~lib/map/MapIterator<f32,i32,KeyValue<f32,i32>>#nextEntry
+    (get_local $0)
+   )
+  )
+  (call $~lib/map/KeyValue<f32,i32>#constructor
+   (i32.const 0)
+   (f32.load
+    (get_local $1)
+   )
+   (i32.load offset=4
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<f64,i32,f64>#get:done (; 282 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<f64,i32>|inlined.9 (result i32)
+           (i32.const 16)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=12
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<f64,i32,f64>#nextEntry (; 283 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<f64,i32,f64>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<f64,i32>|inlined.10 (result i32)
+     (i32.const 16)
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapKeyIterator<f64,i32>#next (; 284 ;) (type $iF) (param $0 i32) (result f64)
+  (f64.load
+   (call $~lib/map/MapIterator<f64,i32,f64>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/MapIterator<f64,i32,KeyValue<f64,i32>>#get:done (; 285 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/map/ENTRY_SIZE<f64,i32>|inlined.11 (result i32)
+           (i32.const 16)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=12
+           (get_local $4)
+          )
+          (get_global $~lib/map/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/map/MapIterator<f64,i32,KeyValue<f64,i32>>#nextEntry (; 286 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/map/MapIterator<f64,i32,KeyValue<f64,i32>>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 253)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/map/ENTRY_SIZE<f64,i32>|inlined.12 (result i32)
+     (i32.const 16)
+    )
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<f64,i32>#constructor (; 287 ;) (type $iFii) (param $0 i32) (param $1 f64) (param $2 i32) (result i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 12)
+       )
+      )
+      (f64.store
+       (get_local $3)
+       (get_local $1)
+      )
+      (i32.store offset=8
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/map/MapEntryIterator<f64,i32>#next (; 288 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (call $~lib/map/MapIterator<f64,i32,KeyValue<f64,i32>>#nextEntry
+    (get_local $0)
+   )
+  )
+  (call $~lib/map/KeyValue<f64,i32>#constructor
+   (i32.const 0)
+   (f64.load
+    (get_local $1)
+   )
+   (i32.load offset=8
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/iterator/Iterator<i8>#get:done|virtual (; 289 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 8)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 9)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<i8,i32,i8>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i8>#next|virtual (; 290 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 9)
+   )
+   (return
+    (call $~lib/map/MapKeyIterator<i8,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i32>#get:done|virtual (; 291 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 12)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 13)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<i8,i32,i32>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 25)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 26)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<u8,i32,i32>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 38)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 39)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<i16,i32,i32>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 51)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 52)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<u16,i32,i32>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.or
+     (i32.eq
+      (get_local $1)
+      (i32.const 60)
+     )
+     (i32.eq
+      (get_local $1)
+      (i32.const 61)
+     )
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 62)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<i32,i32,i32>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 74)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 75)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<u32,i32,i32>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 87)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 88)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<i64,i32,i32>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 100)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 101)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<u64,i32,i32>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 113)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 114)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<f32,i32,i32>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 126)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 127)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<f64,i32,i32>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i32>#next|virtual (; 292 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 13)
+   )
+   (return
+    (call $~lib/map/MapValueIterator<i8,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 26)
+   )
+   (return
+    (call $~lib/map/MapValueIterator<u8,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 39)
+   )
+   (return
+    (call $~lib/map/MapValueIterator<i16,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 52)
+   )
+   (return
+    (call $~lib/map/MapValueIterator<u16,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 61)
+   )
+   (return
+    (call $~lib/map/MapKeyIterator<i32,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 62)
+   )
+   (return
+    (call $~lib/map/MapValueIterator<i32,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 75)
+   )
+   (return
+    (call $~lib/map/MapValueIterator<u32,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 88)
+   )
+   (return
+    (call $~lib/map/MapValueIterator<i64,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 101)
+   )
+   (return
+    (call $~lib/map/MapValueIterator<u64,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 114)
+   )
+   (return
+    (call $~lib/map/MapValueIterator<f32,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 127)
+   )
+   (return
+    (call $~lib/map/MapValueIterator<f64,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i8,i32>>#get:done|virtual (; 293 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 17)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 18)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<i8,i32,KeyValue<i8,i32>>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i8,i32>>#next|virtual (; 294 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 18)
+   )
+   (return
+    (call $~lib/map/MapEntryIterator<i8,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u8>#get:done|virtual (; 295 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 23)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 24)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<u8,i32,u8>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u8>#next|virtual (; 296 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 24)
+   )
+   (return
+    (call $~lib/map/MapKeyIterator<u8,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u8,i32>>#get:done|virtual (; 297 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 30)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 31)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<u8,i32,KeyValue<u8,i32>>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u8,i32>>#next|virtual (; 298 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 31)
+   )
+   (return
+    (call $~lib/map/MapEntryIterator<u8,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i16>#get:done|virtual (; 299 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 36)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 37)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<i16,i32,i16>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i16>#next|virtual (; 300 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 37)
+   )
+   (return
+    (call $~lib/map/MapKeyIterator<i16,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i16,i32>>#get:done|virtual (; 301 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
-    (br $repeat|3)
    )
   )
   (if
-   (i32.eqz
+   (i32.or
     (i32.eq
-     (call $~lib/map/Map<f32,i32>#get:size
-      (get_local $0)
-     )
-     (i32.const 50)
+     (get_local $1)
+     (i32.const 43)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 44)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
+   (return
+    (call $~lib/map/MapIterator<i16,i32,KeyValue<i16,i32>>#get:done
+     (get_local $0)
     )
-    (unreachable)
    )
   )
-  (call $~lib/map/Map<f32,i32>#clear
-   (get_local $0)
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i16,i32>>#next|virtual (; 302 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
   )
   (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<f32,i32>#get:size
-      (get_local $0)
-     )
-     (i32.const 0)
-    )
+   (i32.eq
+    (get_local $1)
+    (i32.const 44)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 46)
-     (i32.const 2)
+   (return
+    (call $~lib/map/MapEntryIterator<i16,i32>#next
+     (get_local $0)
     )
-    (unreachable)
    )
   )
+  (unreachable)
  )
- (func $~lib/map/Map<f64,i32>#clear (; 101 ;) (type $iv) (param $0 i32)
-  (i32.store
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 16)
-    (i32.const 0)
+ (func $~lib/iterator/Iterator<u16>#get:done|virtual (; 303 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
    )
   )
-  (i32.store offset=4
-   (get_local $0)
-   (i32.sub
-    (get_global $~lib/map/INITIAL_CAPACITY)
-    (i32.const 1)
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 49)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 50)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<u16,i32,u16>#get:done
+     (get_local $0)
+    )
    )
   )
-  (i32.store offset=8
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 64)
-    (i32.const 1)
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u16>#next|virtual (; 304 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
    )
   )
-  (i32.store offset=12
-   (get_local $0)
-   (get_global $~lib/map/INITIAL_CAPACITY)
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 50)
+   )
+   (return
+    (call $~lib/map/MapKeyIterator<u16,i32>#next
+     (get_local $0)
+    )
+   )
   )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.const 0)
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u16,i32>>#get:done|virtual (; 305 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
   )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.const 0)
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 56)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 57)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<u16,i32,KeyValue<u16,i32>>#get:done
+     (get_local $0)
+    )
+   )
   )
+  (unreachable)
  )
- (func $~lib/map/Map<f64,i32>#constructor (; 102 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/iterator/Iterator<KeyValue<u16,i32>>#next|virtual (; 306 ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
-  (call $~lib/map/Map<f64,i32>#clear
-   (tee_local $0
-    (if (result i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
      (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 57)
+   )
+   (return
+    (call $~lib/map/MapEntryIterator<u16,i32>#next
      (get_local $0)
-     (tee_local $0
-      (block (result i32)
-       (set_local $1
-        (call $~lib/memory/memory.allocate
-         (i32.const 24)
-        )
-       )
-       (i32.store
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=4
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=8
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=12
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=16
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=20
-        (get_local $1)
-        (i32.const 0)
-       )
-       (get_local $1)
-      )
-     )
     )
    )
   )
-  (get_local $0)
+  (unreachable)
  )
- (func $~lib/map/Map<f64,i32>#find (; 103 ;) (type $iFii) (param $0 i32) (param $1 f64) (param $2 i32) (result i32)
-  (local $3 i32)
-  (local $4 i32)
-  (set_local $3
-   (i32.load offset=8
-    (i32.add
-     (i32.load
-      (get_local $0)
-     )
-     (i32.mul
-      (i32.and
-       (get_local $2)
-       (i32.load offset=4
-        (get_local $0)
-       )
-      )
-      (get_global $~lib/map/BUCKET_SIZE)
-     )
+ (func $~lib/iterator/Iterator<KeyValue<i32,i32>>#get:done|virtual (; 307 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
    )
   )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (get_local $3)
-     (block
-      (block
-       (if
-        (if (result i32)
-         (tee_local $4
-          (i32.eqz
-           (i32.and
-            (i32.load offset=12
-             (get_local $3)
-            )
-            (get_global $~lib/map/EMPTY)
-           )
-          )
-         )
-         (f64.eq
-          (f64.load
-           (get_local $3)
-          )
-          (get_local $1)
-         )
-         (get_local $4)
-        )
-        (return
-         (get_local $3)
-        )
-       )
-       (set_local $3
-        (i32.and
-         (i32.load offset=12
-          (get_local $3)
-         )
-         (i32.xor
-          (get_global $~lib/map/EMPTY)
-          (i32.const -1)
-         )
-        )
-       )
-      )
-      (br $continue|0)
-     )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 66)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 67)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<i32,i32,KeyValue<i32,i32>>#get:done
+     (get_local $0)
     )
    )
   )
-  (i32.const 0)
+  (unreachable)
  )
- (func $~lib/map/Map<f64,i32>#has (; 104 ;) (type $iFi) (param $0 i32) (param $1 f64) (result i32)
-  (i32.ne
-   (call $~lib/map/Map<f64,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<f64>|inlined.0 (result i32)
-     (br $~lib/internal/hash/hash<f64>|inlined.0
-      (call $~lib/internal/hash/hash64
-       (i64.reinterpret/f64
-        (get_local $1)
-       )
-      )
-     )
+ (func $~lib/iterator/Iterator<KeyValue<i32,i32>>#next|virtual (; 308 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
    )
-   (i32.const 0)
   )
- )
- (func $~lib/map/Map<f64,i32>#rehash (; 105 ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (local $9 i32)
-  (local $10 i32)
-  (local $11 f64)
-  (local $12 i32)
-  (local $13 i32)
-  (set_local $2
-   (i32.add
+  (if
+   (i32.eq
     (get_local $1)
-    (i32.const 1)
+    (i32.const 67)
    )
-  )
-  (set_local $3
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $2)
-     (get_global $~lib/map/BUCKET_SIZE)
+   (return
+    (call $~lib/map/MapEntryIterator<i32,i32>#next
+     (get_local $0)
     )
-    (i32.const 0)
    )
   )
-  (set_local $4
-   (i32.trunc_s/f64
-    (f64.mul
-     (f64.convert_s/i32
-      (get_local $2)
-     )
-     (get_global $~lib/map/FILL_FACTOR)
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u32>#get:done|virtual (; 309 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
    )
   )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $4)
-     (block $~lib/map/ENTRY_SIZE<f64,i32>|inlined.1 (result i32)
-      (i32.const 16)
-     )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 72)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 73)
     )
-    (i32.const 1)
    )
-  )
-  (set_local $6
-   (i32.add
-    (i32.load offset=8
+   (return
+    (call $~lib/map/MapIterator<u32,i32,u32>#get:done
      (get_local $0)
     )
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
    )
   )
-  (set_local $7
-   (i32.add
-    (get_local $6)
-    (i32.mul
-     (i32.load offset=16
-      (get_local $0)
-     )
-     (block $~lib/map/ENTRY_SIZE<f64,i32>|inlined.2 (result i32)
-      (i32.const 16)
-     )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u32>#next|virtual (; 310 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
    )
   )
-  (set_local $8
-   (i32.add
-    (get_local $5)
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 73)
    )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (i32.ne
-      (get_local $6)
-      (get_local $7)
-     )
-     (block
-      (block
-       (set_local $9
-        (get_local $6)
-       )
-       (if
-        (i32.eqz
-         (i32.and
-          (i32.load offset=12
-           (get_local $9)
-          )
-          (get_global $~lib/map/EMPTY)
-         )
-        )
-        (block
-         (set_local $10
-          (get_local $8)
-         )
-         (f64.store
-          (get_local $10)
-          (f64.load
-           (get_local $9)
-          )
-         )
-         (i32.store offset=8
-          (get_local $10)
-          (i32.load offset=8
-           (get_local $9)
-          )
-         )
-         (set_local $12
-          (i32.and
-           (block $~lib/internal/hash/hash<f64>|inlined.2 (result i32)
-            (set_local $11
-             (f64.load
-              (get_local $9)
-             )
-            )
-            (br $~lib/internal/hash/hash<f64>|inlined.2
-             (call $~lib/internal/hash/hash64
-              (i64.reinterpret/f64
-               (get_local $11)
-              )
-             )
-            )
-           )
-           (get_local $1)
-          )
-         )
-         (set_local $13
-          (i32.add
-           (get_local $3)
-           (i32.mul
-            (get_local $12)
-            (get_global $~lib/map/BUCKET_SIZE)
-           )
-          )
-         )
-         (i32.store offset=12
-          (get_local $10)
-          (i32.load offset=8
-           (get_local $13)
-          )
-         )
-         (i32.store offset=8
-          (get_local $13)
-          (get_local $8)
-         )
-         (set_local $8
-          (i32.add
-           (get_local $8)
-           (block $~lib/map/ENTRY_SIZE<f64,i32>|inlined.3 (result i32)
-            (i32.const 16)
-           )
-          )
-         )
-        )
-       )
-       (set_local $6
-        (i32.add
-         (get_local $6)
-         (block $~lib/map/ENTRY_SIZE<f64,i32>|inlined.4 (result i32)
-          (i32.const 16)
-         )
-        )
-       )
-      )
-      (br $continue|0)
-     )
+   (return
+    (call $~lib/map/MapKeyIterator<u32,i32>#next
+     (get_local $0)
     )
    )
   )
-  (i32.store
-   (get_local $0)
-   (get_local $3)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $4)
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u32,i32>>#get:done|virtual (; 311 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
   )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 79)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 80)
+    )
+   )
+   (return
+    (call $~lib/map/MapIterator<u32,i32,KeyValue<u32,i32>>#get:done
+     (get_local $0)
+    )
    )
   )
+  (unreachable)
  )
- (func $~lib/map/Map<f64,i32>#set (; 106 ;) (type $iFiv) (param $0 i32) (param $1 f64) (param $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (set_local $3
-   (block $~lib/internal/hash/hash<f64>|inlined.1 (result i32)
-    (br $~lib/internal/hash/hash<f64>|inlined.1
-     (call $~lib/internal/hash/hash64
-      (i64.reinterpret/f64
-       (get_local $1)
-      )
-     )
+ (func $~lib/iterator/Iterator<KeyValue<u32,i32>>#next|virtual (; 312 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
    )
   )
-  (set_local $4
-   (call $~lib/map/Map<f64,i32>#find
-    (get_local $0)
+  (if
+   (i32.eq
     (get_local $1)
-    (get_local $3)
+    (i32.const 80)
+   )
+   (return
+    (call $~lib/map/MapEntryIterator<u32,i32>#next
+     (get_local $0)
+    )
    )
   )
-  (if
-   (get_local $4)
-   (i32.store offset=8
-    (get_local $4)
-    (get_local $2)
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i64>#get:done|virtual (; 313 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
    )
-   (block
-    (if
-     (i32.eq
-      (i32.load offset=16
-       (get_local $0)
-      )
-      (i32.load offset=12
-       (get_local $0)
-      )
-     )
-     (call $~lib/map/Map<f64,i32>#rehash
-      (get_local $0)
-      (if (result i32)
-       (i32.lt_s
-        (i32.load offset=20
-         (get_local $0)
-        )
-        (i32.trunc_s/f64
-         (f64.mul
-          (f64.convert_s/i32
-           (i32.load offset=12
-            (get_local $0)
-           )
-          )
-          (get_global $~lib/map/FREE_FACTOR)
-         )
-        )
-       )
-       (i32.load offset=4
-        (get_local $0)
-       )
-       (i32.or
-        (i32.shl
-         (i32.load offset=4
-          (get_local $0)
-         )
-         (i32.const 1)
-        )
-        (i32.const 1)
-       )
-      )
-     )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 85)
     )
-    (set_local $5
-     (i32.load offset=8
-      (get_local $0)
-     )
+    (i32.eq
+     (get_local $1)
+     (i32.const 86)
     )
-    (set_local $4
-     (i32.add
-      (i32.add
-       (get_local $5)
-       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
-      )
-      (i32.mul
-       (block (result i32)
-        (set_local $6
-         (i32.load offset=16
-          (get_local $0)
-         )
-        )
-        (i32.store offset=16
-         (get_local $0)
-         (i32.add
-          (get_local $6)
-          (i32.const 1)
-         )
-        )
-        (get_local $6)
-       )
-       (block $~lib/map/ENTRY_SIZE<f64,i32>|inlined.5 (result i32)
-        (i32.const 16)
-       )
-      )
-     )
+   )
+   (return
+    (call $~lib/map/MapIterator<i64,i32,i64>#get:done
+     (get_local $0)
     )
-    (f64.store
-     (get_local $4)
-     (get_local $1)
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i64>#next|virtual (; 314 ;) (type $iI) (param $0 i32) (result i64)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
-    (i32.store offset=8
-     (get_local $4)
-     (get_local $2)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 86)
+   )
+   (return
+    (call $~lib/map/MapKeyIterator<i64,i32>#next
+     (get_local $0)
     )
-    (i32.store offset=20
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i64,i32>>#get:done|virtual (; 315 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
      (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
-      )
-      (i32.const 1)
-     )
+     (i32.const 4)
     )
-    (set_local $6
-     (i32.add
-      (i32.load
-       (get_local $0)
-      )
-      (i32.mul
-       (i32.and
-        (get_local $3)
-        (i32.load offset=4
-         (get_local $0)
-        )
-       )
-       (get_global $~lib/map/BUCKET_SIZE)
-      )
-     )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 92)
     )
-    (i32.store offset=12
-     (get_local $4)
-     (i32.load offset=8
-      (get_local $6)
-     )
+    (i32.eq
+     (get_local $1)
+     (i32.const 93)
     )
-    (i32.store offset=8
-     (get_local $6)
-     (get_local $4)
+   )
+   (return
+    (call $~lib/map/MapIterator<i64,i32,KeyValue<i64,i32>>#get:done
+     (get_local $0)
     )
    )
   )
+  (unreachable)
  )
- (func $~lib/map/Map<f64,i32>#get (; 107 ;) (type $iFi) (param $0 i32) (param $1 f64) (result i32)
-  (local $2 i32)
-  (set_local $2
-   (call $~lib/map/Map<f64,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<f64>|inlined.3 (result i32)
-     (br $~lib/internal/hash/hash<f64>|inlined.3
-      (call $~lib/internal/hash/hash64
-       (i64.reinterpret/f64
-        (get_local $1)
-       )
-      )
-     )
+ (func $~lib/iterator/Iterator<KeyValue<i64,i32>>#next|virtual (; 316 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
    )
   )
-  (if (result i32)
-   (get_local $2)
-   (i32.load offset=8
-    (get_local $2)
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 93)
+   )
+   (return
+    (call $~lib/map/MapEntryIterator<i64,i32>#next
+     (get_local $0)
+    )
    )
-   (unreachable)
-  )
- )
- (func $~lib/map/Map<f64,i32>#get:size (; 108 ;) (type $ii) (param $0 i32) (result i32)
-  (i32.load offset=20
-   (get_local $0)
   )
+  (unreachable)
  )
- (func $~lib/map/Map<f64,i32>#delete (; 109 ;) (type $iFi) (param $0 i32) (param $1 f64) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (set_local $2
-   (call $~lib/map/Map<f64,i32>#find
-    (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<f64>|inlined.4 (result i32)
-     (br $~lib/internal/hash/hash<f64>|inlined.4
-      (call $~lib/internal/hash/hash64
-       (i64.reinterpret/f64
-        (get_local $1)
-       )
-      )
-     )
+ (func $~lib/iterator/Iterator<u64>#get:done|virtual (; 317 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
    )
   )
   (if
-   (i32.eqz
-    (get_local $2)
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 98)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 99)
+    )
    )
    (return
-    (i32.const 0)
+    (call $~lib/map/MapIterator<u64,i32,u64>#get:done
+     (get_local $0)
+    )
    )
   )
-  (i32.store offset=12
-   (get_local $2)
-   (i32.or
-    (i32.load offset=12
-     (get_local $2)
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u64>#next|virtual (; 318 ;) (type $iI) (param $0 i32) (result i64)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
-    (get_global $~lib/map/EMPTY)
    )
   )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.sub
-    (i32.load offset=20
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 99)
+   )
+   (return
+    (call $~lib/map/MapKeyIterator<u64,i32>#next
      (get_local $0)
     )
-    (i32.const 1)
    )
   )
-  (set_local $3
-   (i32.shr_u
-    (i32.load offset=4
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u64,i32>>#get:done|virtual (; 319 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
      (get_local $0)
+     (i32.const 4)
     )
-    (i32.const 1)
    )
   )
   (if
-   (if (result i32)
-    (tee_local $4
-     (i32.ge_u
-      (i32.add
-       (get_local $3)
-       (i32.const 1)
-      )
-      (select
-       (tee_local $4
-        (get_global $~lib/map/INITIAL_CAPACITY)
-       )
-       (tee_local $5
-        (i32.load offset=20
-         (get_local $0)
-        )
-       )
-       (i32.gt_u
-        (get_local $4)
-        (get_local $5)
-       )
-      )
-     )
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 105)
     )
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $0)
-     )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $0)
-        )
-       )
-       (get_global $~lib/map/FREE_FACTOR)
-      )
-     )
+    (i32.eq
+     (get_local $1)
+     (i32.const 106)
     )
-    (get_local $4)
    )
-   (call $~lib/map/Map<f64,i32>#rehash
-    (get_local $0)
-    (get_local $3)
+   (return
+    (call $~lib/map/MapIterator<u64,i32,KeyValue<u64,i32>>#get:done
+     (get_local $0)
+    )
    )
   )
-  (i32.const 1)
+  (unreachable)
  )
- (func $std/map/test<f64,i32> (; 110 ;) (type $v)
-  (local $0 i32)
-  (local $1 f64)
-  (set_local $0
-   (call $~lib/map/Map<f64,i32>#constructor
-    (i32.const 0)
+ (func $~lib/iterator/Iterator<KeyValue<u64,i32>>#next|virtual (; 320 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
    )
   )
-  (block $break|0
-   (set_local $1
-    (f64.const 0)
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 106)
    )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (f64.lt
-       (get_local $1)
-       (f64.const 100)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<f64,i32>#has
-         (get_local $0)
-         (get_local $1)
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 8)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/map/Map<f64,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 10)
-       (i32.trunc_s/f64
-        (get_local $1)
-       )
-      )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<f64,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 10)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<f64,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 10)
-         (i32.trunc_s/f64
-          (get_local $1)
-         )
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 11)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
+   (return
+    (call $~lib/map/MapEntryIterator<u64,i32>#next
+     (get_local $0)
     )
-    (set_local $1
-     (f64.add
-      (get_local $1)
-      (f64.const 1)
-     )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<f32>#get:done|virtual (; 321 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
-    (br $repeat|0)
    )
   )
   (if
-   (i32.eqz
+   (i32.or
     (i32.eq
-     (call $~lib/map/Map<f64,i32>#get:size
-      (get_local $0)
-     )
-     (i32.const 100)
+     (get_local $1)
+     (i32.const 111)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 112)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 13)
-     (i32.const 2)
+   (return
+    (call $~lib/map/MapIterator<f32,i32,f32>#get:done
+     (get_local $0)
     )
-    (unreachable)
    )
   )
-  (block $break|1
-   (set_local $1
-    (f64.const 0)
-   )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.eqz
-      (f64.lt
-       (get_local $1)
-       (f64.const 100)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<f64,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 17)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<f64,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 10)
-         (i32.trunc_s/f64
-          (get_local $1)
-         )
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 18)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/map/Map<f64,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 20)
-       (i32.trunc_s/f64
-        (get_local $1)
-       )
-      )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<f64,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 20)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<f64,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 20)
-         (i32.trunc_s/f64
-          (get_local $1)
-         )
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 21)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<f32>#next|virtual (; 322 ;) (type $if) (param $0 i32) (result f32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
-    (set_local $1
-     (f64.add
-      (get_local $1)
-      (f64.const 1)
-     )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 112)
+   )
+   (return
+    (call $~lib/map/MapKeyIterator<f32,i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<f32,i32>>#get:done|virtual (; 323 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
-    (br $repeat|1)
    )
   )
   (if
-   (i32.eqz
+   (i32.or
     (i32.eq
-     (call $~lib/map/Map<f64,i32>#get:size
-      (get_local $0)
-     )
-     (i32.const 100)
+     (get_local $1)
+     (i32.const 118)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 119)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 23)
-     (i32.const 2)
+   (return
+    (call $~lib/map/MapIterator<f32,i32,KeyValue<f32,i32>>#get:done
+     (get_local $0)
     )
-    (unreachable)
    )
   )
-  (block $break|2
-   (set_local $1
-    (f64.const 0)
-   )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (f64.lt
-       (get_local $1)
-       (f64.const 50)
-      )
-     )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<f32,i32>>#next|virtual (; 324 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<f64,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 27)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eq
-        (call $~lib/map/Map<f64,i32>#get
-         (get_local $0)
-         (get_local $1)
-        )
-        (i32.add
-         (i32.const 20)
-         (i32.trunc_s/f64
-          (get_local $1)
-         )
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 28)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (drop
-      (call $~lib/map/Map<f64,i32>#delete
-       (get_local $0)
-       (get_local $1)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<f64,i32>#has
-         (get_local $0)
-         (get_local $1)
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 30)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 119)
+   )
+   (return
+    (call $~lib/map/MapEntryIterator<f32,i32>#next
+     (get_local $0)
     )
-    (set_local $1
-     (f64.add
-      (get_local $1)
-      (f64.const 1)
-     )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<f64>#get:done|virtual (; 325 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
-    (br $repeat|2)
    )
   )
   (if
-   (i32.eqz
+   (i32.or
     (i32.eq
-     (call $~lib/map/Map<f64,i32>#get:size
-      (get_local $0)
-     )
-     (i32.const 50)
+     (get_local $1)
+     (i32.const 124)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 125)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 32)
-     (i32.const 2)
+   (return
+    (call $~lib/map/MapIterator<f64,i32,f64>#get:done
+     (get_local $0)
     )
-    (unreachable)
    )
   )
-  (block $break|3
-   (set_local $1
-    (f64.const 0)
-   )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (f64.lt
-       (get_local $1)
-       (f64.const 50)
-      )
-     )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<f64>#next|virtual (; 326 ;) (type $iF) (param $0 i32) (result f64)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<f64,i32>#has
-         (get_local $0)
-         (get_local $1)
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 36)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/map/Map<f64,i32>#set
-      (get_local $0)
-      (get_local $1)
-      (i32.add
-       (i32.const 10)
-       (i32.trunc_s/f64
-        (get_local $1)
-       )
-      )
-     )
-     (if
-      (i32.eqz
-       (call $~lib/map/Map<f64,i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 38)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (drop
-      (call $~lib/map/Map<f64,i32>#delete
-       (get_local $0)
-       (get_local $1)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/map/Map<f64,i32>#has
-         (get_local $0)
-         (get_local $1)
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 40)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 125)
+   )
+   (return
+    (call $~lib/map/MapKeyIterator<f64,i32>#next
+     (get_local $0)
     )
-    (set_local $1
-     (f64.add
-      (get_local $1)
-      (f64.const 1)
-     )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<f64,i32>>#get:done|virtual (; 327 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
-    (br $repeat|3)
    )
   )
   (if
-   (i32.eqz
+   (i32.or
     (i32.eq
-     (call $~lib/map/Map<f64,i32>#get:size
-      (get_local $0)
-     )
-     (i32.const 50)
+     (get_local $1)
+     (i32.const 131)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 132)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
+   (return
+    (call $~lib/map/MapIterator<f64,i32,KeyValue<f64,i32>>#get:done
+     (get_local $0)
     )
-    (unreachable)
    )
   )
-  (call $~lib/map/Map<f64,i32>#clear
-   (get_local $0)
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<f64,i32>>#next|virtual (; 328 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
   )
   (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/map/Map<f64,i32>#get:size
-      (get_local $0)
-     )
-     (i32.const 0)
-    )
+   (i32.eq
+    (get_local $1)
+    (i32.const 132)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 46)
-     (i32.const 2)
+   (return
+    (call $~lib/map/MapEntryIterator<f64,i32>#next
+     (get_local $0)
     )
-    (unreachable)
    )
   )
+  (unreachable)
  )
- (func $start (; 111 ;) (type $v)
+ (func $start (; 329 ;) (type $v)
   (set_global $~lib/allocator/arena/startOffset
    (i32.and
     (i32.add
@@ -0,0 +1,105 @@
+import "allocator/arena";
+
+// integers
+
+var i = -255;
+assert(i.toString() == "-255");
+assert(i.toString(16) == "-ff");
+assert(i.toString(2) == "-11111111");
+assert(i.toString(36) == "-73");
+assert((<u8>255).toString(16) == "ff");
+assert((<i64>i64.MIN_VALUE).toString(16) == "-8000000000000000");
+assert(u64.MAX_VALUE.toString(36) == "3w5e11264sgsf");
+assert((0).toString(2) == "0");
+assert((1234567).toString() == "1234567");
+
+function throwsRangeError(radix: i32): bool {
+  try {
+    i.toString(radix);
+  } catch (e) {
+    return true;
+  }
+  return false;
+}
+
+assert(throwsRangeError(1));
+assert(throwsRangeError(37));
+assert(!throwsRangeError(36));
+
+var b = true;
+assert(b.toString() == "true");
+
+// shortest representations
+
+assert((0.0).toString() == "0");
+assert(NaN.toString() == "NaN");
+assert(Infinity.toString() == "Infinity");
+assert((1.0).toString() == "1");
+assert((0.1).toString() == "0.1");
+
+var d = -0.0;
+assert(d.toString() == "0");
+d = -Infinity;
+assert(d.toString() == "-Infinity");
+d = 0.1 + 0.2;
+assert(d.toString() == "0.30000000000000004");
+d = -1.5;
+assert(d.toString() == "-1.5");
+assert(d.toFixed(0) == "-2");
+assert(d.toPrecision() == "-1.5");
+assert(d.toExponential(2) == "-1.50e+0");
+assert((123456789012345680000.0).toString() == "123456789012345680000");
+assert((1e21).toString() == "1e+21");
+assert((0.000001).toString() == "0.000001");
+assert((1e-7).toString() == "1e-7");
+assert((1.2345e-7).toString() == "1.2345e-7");
+assert(f64.MAX_VALUE.toString() == "1.7976931348623157e+308");
+assert(f64.MIN_POSITIVE_VALUE.toString() == "2.2250738585072014e-308");
+assert((5e-324).toString() == "5e-324");
+assert(f64.EPSILON.toString() == "2.220446049250313e-16");
+assert((9007199254740993.0).toString() == "9007199254740992");
+
+var f: f32 = 0.1;
+assert(f.toString() == "0.1");
+assert((<f32>16777216).toString() == "16777216");
+assert(f32.MAX_VALUE.toString() == "3.4028235e+38");
+assert(f32.MIN_POSITIVE_VALUE.toString() == "1.1754944e-38");
+assert((<f32>1e-45).toString() == "1e-45");
+
+// fixed
+
+assert((0.0).toFixed(2) == "0.00");
+assert((1.005).toFixed(2) == "1.00");
+assert((1.45).toFixed(1) == "1.4");
+assert((1.5).toFixed() == "2");
+assert((2.5).toFixed() == "3");
+assert((0.5).toFixed(0) == "1");
+assert((0.05).toFixed(1) == "0.1");
+assert((999.995).toFixed(2) == "1000.00");
+assert((99.995).toFixed(2) == "100.00");
+assert((123.456).toFixed(10) == "123.4560000000");
+assert((1e21).toFixed(2) == "1e+21");
+assert((1e-10).toFixed(20) == "0.00000000010000000000");
+assert((0.1).toFixed(30) == "0.100000000000000005551115123126");
+assert(f.toFixed(10) == "0.1000000015");
+
+// precision
+
+assert((0.0).toPrecision(3) == "0.00");
+assert((123.456).toPrecision(4) == "123.5");
+assert((123.456).toPrecision(2) == "1.2e+2");
+assert((123.456).toPrecision(3) == "123");
+assert((0.000123).toPrecision(2) == "0.00012");
+assert((0.0000001).toPrecision(1) == "1e-7");
+assert((99.99).toPrecision(3) == "100");
+assert((5e-324).toPrecision(3) == "4.94e-324");
+
+// exponential
+
+assert((0.0).toExponential() == "0e+0");
+assert((0.0).toExponential(2) == "0.00e+0");
+assert((123456.0).toExponential() == "1.23456e+5");
+assert((123456.0).toExponential(2) == "1.23e+5");
+assert((0.00015).toExponential(1) == "1.5e-4");
+assert((9.99).toExponential(1) == "1.0e+1");
+assert(f.toExponential() == "1e-1");
@@ -0,0 +1,168 @@
+import "allocator/arena";
+
+// literals
+
+var re = /a(b+)c/;
+assert(re.source == "a(b+)c");
+assert(re.flags == "");
+assert(!re.global && !re.ignoreCase && !re.multiline);
+assert(re.toString() == "/a(b+)c/");
+assert(re.test("xabbbcx"));
+assert(!re.test("xacx"));
+
+assert(re.exec("xacx") === null);
+var match = <RegExpExecArray>re.exec("xabbbcx");
+assert(match.index == 1);
+assert(match.input == "xabbbcx");
+assert(match.length == 2);
+assert(match[0] == "abbbc");
+assert(match[1] == "bbb");
+assert(match.start(1) == 2);
+assert(match.end(1) == 5);
+assert(match[2] === null);
+
+// constructor
+
+var ctor = new RegExp("(\\d+)-(\\d+)?", "g");
+assert(ctor.global);
+assert(ctor.toString() == "/(\\d+)-(\\d+)?/g");
+match = <RegExpExecArray>ctor.exec("1-2, 34-");
+assert(match.index == 0);
+assert(match[1] == "1");
+assert(match[2] == "2");
+assert(ctor.lastIndex == 3);
+match = <RegExpExecArray>ctor.exec("1-2, 34-");
+assert(match.index == 5);
+assert(match[1] == "34");
+assert(match[2] === null);
+assert(match.start(2) == -1);
+assert(ctor.lastIndex == 8);
+assert(ctor.exec("1-2, 34-") === null);
+assert(ctor.lastIndex == 0);
+
+var empty = new RegExp("");
+assert(empty.source == "(?:)");
+assert(empty.test("anything"));
+
+function throwsSyntaxError(pattern: string, flags: string = ""): bool {
+  try {
+    new RegExp(pattern, flags);
+  } catch (e) {
+    return true;
+  }
+  return false;
+}
+
+assert(throwsSyntaxError("a**"));
+assert(throwsSyntaxError("(a"));
+assert(throwsSyntaxError("a)"));
+assert(throwsSyntaxError("[a"));
+assert(throwsSyntaxError("[z-a]"));
+assert(throwsSyntaxError("a{2,1}"));
+assert(throwsSyntaxError("a(?=b)"));
+assert(throwsSyntaxError("a(?!b)"));
+assert(throwsSyntaxError("(?<=a)b"));
+assert(throwsSyntaxError("(a)\\1"));
+assert(throwsSyntaxError("a", "gg"));
+assert(throwsSyntaxError("a", "x"));
+assert(!throwsSyntaxError("a{,2}"));
+
+// character classes
+
+assert(/^[a-c]+$/.test("abcabc"));
+assert(!/^[a-c]+$/.test("abcd"));
+assert(/^[^a-c]+$/.test("xyz"));
+assert(!/^[^a-c]+$/.test("xaz"));
+assert(/^\d\D\w\W\s\S$/.test("1a_ \tx"));
+assert(/^[\d.]+$/.test("3.14"));
+assert(/^[\D]+$/.test("abc"));
+assert(/^[-a]+$/.test("a-a"));
+assert(/^[a-]+$/.test("a-a"));
+assert(/^a.c$/.test("abc"));
+assert(!/^a.c$/.test("a\nc"));
+assert(/^\x41B\t$/.test("AB\t"));
+assert(/^\.\*\\$/.test(".*\\"));
+assert(/^[\b]$/.test("\b"));
+
+// quantifiers
+
+assert(/^a*$/.test(""));
+assert(/^a+$/.test("aaa"));
+assert(!/^a+$/.test(""));
+assert(/^ab?c$/.test("ac"));
+assert(/^ab?c$/.test("abc"));
+assert(!/^ab?c$/.test("abbc"));
+assert(/^a{3}$/.test("aaa"));
+assert(!/^a{3}$/.test("aa"));
+assert(/^a{2,}$/.test("aaaaa"));
+assert(!/^a{2,}$/.test("a"));
+assert(/^a{1,2}$/.test("aa"));
+assert(!/^a{1,2}$/.test("aaa"));
+assert(/^a{$/.test("a{"));
+assert(/^(?:ab){2}$/.test("abab"));
+assert(/^(a*)*$/.test("aaa"));
+
+match = <RegExpExecArray>/<(.+)>/.exec("<a><b>");
+assert(match[1] == "a><b");
+match = <RegExpExecArray>/<(.+?)>/.exec("<a><b>");
+assert(match[1] == "a");
+match = <RegExpExecArray>/(a+?)(a*)/.exec("aaa");
+assert(match[1] == "a" && match[2] == "aa");
+match = <RegExpExecArray>/a{2,3}?/.exec("aaaa");
+assert(match[0] == "aa");
+
+// groups and alternation
+
+match = <RegExpExecArray>/(cat|dog)s?/.exec("hotdogs");
+assert(match.index == 3 && match[0] == "dogs" && match[1] == "dog");
+match = <RegExpExecArray>/a|ab/.exec("ab");
+assert(match[0] == "a");
+match = <RegExpExecArray>/(a)|(b)/.exec("b");
+assert(match[1] === null && match[2] == "b");
+match = <RegExpExecArray>/(?:(x)|y)+/.exec("xy");
+assert(match[0] == "xy" && match[1] == "x");
+assert(/^(|a)b$/.test("b"));
+
+// anchors and boundaries
+
+assert(/^abc$/.test("abc"));
+assert(!/^bc/.test("abc"));
+assert(!/ab$/.test("abc"));
+assert(!/^b$/.test("a\nb\nc"));
+assert(/^b$/m.test("a\nb\nc"));
+assert(/\bcat\b/.test("a cat here"));
+assert(!/\bcat\b/.test("concatenate"));
+assert(/\Bcat\B/.test("concatenate"));
+
+// flags
+
+assert(/hello/i.test("HeLLo"));
+assert(/[a-z]+/i.test("ABC"));
+assert(/[A-Z]+/i.test("abc"));
+assert(/é/i.test("É"));
+assert(!/hello/.test("HELLO"));
+
+var global = /o/g;
+assert(global.test("foo"));
+assert(global.lastIndex == 2);
+assert(global.test("foo"));
+assert(global.lastIndex == 3);
+assert(!global.test("foo"));
+assert(global.lastIndex == 0);
+assert(/x/gim.flags == "gim");
+
+var multi = /^\w+$/gm;
+match = <RegExpExecArray>multi.exec("one\ntwo");
+assert(match[0] == "one");
+match = <RegExpExecArray>multi.exec("one\ntwo");
+assert(match[0] == "two" && match.index == 4);
+
+// literals evaluate to a new object each time
+
+function lastIndexOfFreshLiteral(): i32 {
+  var regexp = /a/g;
+  regexp.test("a");
+  return regexp.lastIndex;
+}
+assert(lastIndexOfFreshLiteral() == 1);
+assert(lastIndexOfFreshLiteral() == 1);
@@ -0,0 +1,14066 @@
+(module
+ (type $iiiii (func (param i32 i32 i32 i32) (result i32)))
+ (type $ii (func (param i32) (result i32)))
+ (type $iii (func (param i32 i32) (result i32)))
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $iiiiiv (func (param i32 i32 i32 i32 i32)))
+ (type $iiiv (func (param i32 i32 i32)))
+ (type $iv (func (param i32)))
+ (type $iiv (func (param i32 i32)))
+ (type $iiii (func (param i32 i32 i32) (result i32)))
+ (type $iiiiii (func (param i32 i32 i32 i32 i32) (result i32)))
+ (type $i (func (result i32)))
+ (type $v (func))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/internal/allocator/AL_BITS i32 (i32.const 3))
+ (global $~lib/internal/allocator/AL_SIZE i32 (i32.const 8))
+ (global $~lib/internal/allocator/AL_MASK i32 (i32.const 7))
+ (global $~lib/internal/allocator/MAX_SIZE_32 i32 (i32.const 1073741824))
+ (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
+ (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $~lib/internal/regexp-parser/Flags.NONE i32 (i32.const 0))
+ (global $~lib/internal/regexp-parser/Flags.GLOBAL i32 (i32.const 1))
+ (global $~lib/internal/regexp-parser/Flags.IGNORECASE i32 (i32.const 2))
+ (global $~lib/internal/regexp-parser/Flags.MULTILINE i32 (i32.const 4))
+ (global $~lib/internal/string/HEADER_SIZE i32 (i32.const 4))
+ (global $~lib/internal/regexp-parser/CharCode.BACKSPACE i32 (i32.const 8))
+ (global $~lib/internal/regexp-parser/CharCode.TAB i32 (i32.const 9))
+ (global $~lib/internal/regexp-parser/CharCode.LINEFEED i32 (i32.const 10))
+ (global $~lib/internal/regexp-parser/CharCode.VERTICALTAB i32 (i32.const 11))
+ (global $~lib/internal/regexp-parser/CharCode.FORMFEED i32 (i32.const 12))
+ (global $~lib/internal/regexp-parser/CharCode.CARRIAGERETURN i32 (i32.const 13))
+ (global $~lib/internal/regexp-parser/CharCode.EXCLAMATION i32 (i32.const 33))
+ (global $~lib/internal/regexp-parser/CharCode.DOLLAR i32 (i32.const 36))
+ (global $~lib/internal/regexp-parser/CharCode.OPENPAREN i32 (i32.const 40))
+ (global $~lib/internal/regexp-parser/CharCode.CLOSEPAREN i32 (i32.const 41))
+ (global $~lib/internal/regexp-parser/CharCode.ASTERISK i32 (i32.const 42))
+ (global $~lib/internal/regexp-parser/CharCode.PLUS i32 (i32.const 43))
+ (global $~lib/internal/regexp-parser/CharCode.COMMA i32 (i32.const 44))
+ (global $~lib/internal/regexp-parser/CharCode.MINUS i32 (i32.const 45))
+ (global $~lib/internal/regexp-parser/CharCode.DOT i32 (i32.const 46))
+ (global $~lib/internal/regexp-parser/CharCode._0 i32 (i32.const 48))
+ (global $~lib/internal/regexp-parser/CharCode._1 i32 (i32.const 49))
+ (global $~lib/internal/regexp-parser/CharCode._9 i32 (i32.const 57))
+ (global $~lib/internal/regexp-parser/CharCode.COLON i32 (i32.const 58))
+ (global $~lib/internal/regexp-parser/CharCode.LESSTHAN i32 (i32.const 60))
+ (global $~lib/internal/regexp-parser/CharCode.EQUALS i32 (i32.const 61))
+ (global $~lib/internal/regexp-parser/CharCode.QUESTION i32 (i32.const 63))
+ (global $~lib/internal/regexp-parser/CharCode.A i32 (i32.const 65))
+ (global $~lib/internal/regexp-parser/CharCode.B i32 (i32.const 66))
+ (global $~lib/internal/regexp-parser/CharCode.D i32 (i32.const 68))
+ (global $~lib/internal/regexp-parser/CharCode.F i32 (i32.const 70))
+ (global $~lib/internal/regexp-parser/CharCode.S i32 (i32.const 83))
+ (global $~lib/internal/regexp-parser/CharCode.W i32 (i32.const 87))
+ (global $~lib/internal/regexp-parser/CharCode.Z i32 (i32.const 90))
+ (global $~lib/internal/regexp-parser/CharCode.OPENBRACKET i32 (i32.const 91))
+ (global $~lib/internal/regexp-parser/CharCode.BACKSLASH i32 (i32.const 92))
+ (global $~lib/internal/regexp-parser/CharCode.CLOSEBRACKET i32 (i32.const 93))
+ (global $~lib/internal/regexp-parser/CharCode.CARET i32 (i32.const 94))
+ (global $~lib/internal/regexp-parser/CharCode.a i32 (i32.const 97))
+ (global $~lib/internal/regexp-parser/CharCode.b i32 (i32.const 98))
+ (global $~lib/internal/regexp-parser/CharCode.c i32 (i32.const 99))
+ (global $~lib/internal/regexp-parser/CharCode.d i32 (i32.const 100))
+ (global $~lib/internal/regexp-parser/CharCode.f i32 (i32.const 102))
+ (global $~lib/internal/regexp-parser/CharCode.g i32 (i32.const 103))
+ (global $~lib/internal/regexp-parser/CharCode.i i32 (i32.const 105))
+ (global $~lib/internal/regexp-parser/CharCode.m i32 (i32.const 109))
+ (global $~lib/internal/regexp-parser/CharCode.n i32 (i32.const 110))
+ (global $~lib/internal/regexp-parser/CharCode.r i32 (i32.const 114))
+ (global $~lib/internal/regexp-parser/CharCode.s i32 (i32.const 115))
+ (global $~lib/internal/regexp-parser/CharCode.t i32 (i32.const 116))
+ (global $~lib/internal/regexp-parser/CharCode.u i32 (i32.const 117))
+ (global $~lib/internal/regexp-parser/CharCode.v i32 (i32.const 118))
+ (global $~lib/internal/regexp-parser/CharCode.w i32 (i32.const 119))
+ (global $~lib/internal/regexp-parser/CharCode.x i32 (i32.const 120))
+ (global $~lib/internal/regexp-parser/CharCode.z i32 (i32.const 122))
+ (global $~lib/internal/regexp-parser/CharCode.OPENBRACE i32 (i32.const 123))
+ (global $~lib/internal/regexp-parser/CharCode.BAR i32 (i32.const 124))
+ (global $~lib/internal/regexp-parser/CharCode.CLOSEBRACE i32 (i32.const 125))
+ (global $~lib/internal/string/MAX_LENGTH i32 (i32.const 536870910))
+ (global $~exception (mut i32) (i32.const 0))
+ (global $~lib/internal/arraybuffer/HEADER_SIZE i32 (i32.const 8))
+ (global $~lib/internal/arraybuffer/MAX_BLENGTH i32 (i32.const 1073741816))
+ (global $~lib/internal/regexp-parser/Opcode.MATCH i32 (i32.const 0))
+ (global $~lib/internal/regexp-parser/Opcode.CHAR i32 (i32.const 1))
+ (global $~lib/internal/regexp-parser/Opcode.ANY i32 (i32.const 2))
+ (global $~lib/internal/regexp-parser/Opcode.CLASS i32 (i32.const 3))
+ (global $~lib/internal/regexp-parser/Opcode.NCLASS i32 (i32.const 4))
+ (global $~lib/internal/regexp-parser/Opcode.SPLIT i32 (i32.const 5))
+ (global $~lib/internal/regexp-parser/Opcode.JMP i32 (i32.const 6))
+ (global $~lib/internal/regexp-parser/Opcode.SAVE i32 (i32.const 7))
+ (global $~lib/internal/regexp-parser/Opcode.BOL i32 (i32.const 8))
+ (global $~lib/internal/regexp-parser/Opcode.EOL i32 (i32.const 9))
+ (global $~lib/internal/regexp-parser/Opcode.WORD_BOUNDARY i32 (i32.const 10))
+ (global $~lib/internal/regexp-parser/Opcode.NOT_WORD_BOUNDARY i32 (i32.const 11))
+ (global $~lib/internal/regexp-parser/DIGIT_RANGES i32 (i32.const 1000))
+ (global $~lib/internal/regexp-parser/WORD_RANGES i32 (i32.const 1072))
+ (global $~lib/internal/regexp-parser/SPACE_RANGES i32 (i32.const 1208))
+ (global $~lib/builtins/i32.MAX_VALUE i32 (i32.const 2147483647))
+ (global $~argc (mut i32) (i32.const 0))
+ (global $std/regexp/re (mut i32) (i32.const 0))
+ (global $~lib/internal/string/CharCode.BACKSPACE i32 (i32.const 8))
+ (global $~lib/internal/string/CharCode.TAB i32 (i32.const 9))
+ (global $~lib/internal/string/CharCode.LINEFEED i32 (i32.const 10))
+ (global $~lib/internal/string/CharCode.VERTICALTAB i32 (i32.const 11))
+ (global $~lib/internal/string/CharCode.FORMFEED i32 (i32.const 12))
+ (global $~lib/internal/string/CharCode.CARRIAGERETURN i32 (i32.const 13))
+ (global $~lib/internal/string/CharCode.SPACE i32 (i32.const 32))
+ (global $~lib/internal/string/CharCode.DOUBLEQUOTE i32 (i32.const 34))
+ (global $~lib/internal/string/CharCode.DOLLAR i32 (i32.const 36))
+ (global $~lib/internal/string/CharCode.AMPERSAND i32 (i32.const 38))
+ (global $~lib/internal/string/CharCode.SINGLEQUOTE i32 (i32.const 39))
+ (global $~lib/internal/string/CharCode.OPENPAREN i32 (i32.const 40))
+ (global $~lib/internal/string/CharCode.CLOSEPAREN i32 (i32.const 41))
+ (global $~lib/internal/string/CharCode.ASTERISK i32 (i32.const 42))
+ (global $~lib/internal/string/CharCode.PLUS i32 (i32.const 43))
+ (global $~lib/internal/string/CharCode.COMMA i32 (i32.const 44))
+ (global $~lib/internal/string/CharCode.MINUS i32 (i32.const 45))
+ (global $~lib/internal/string/CharCode.DOT i32 (i32.const 46))
+ (global $~lib/internal/string/CharCode.SLASH i32 (i32.const 47))
+ (global $~lib/internal/string/CharCode._0 i32 (i32.const 48))
+ (global $~lib/internal/string/CharCode._1 i32 (i32.const 49))
+ (global $~lib/internal/string/CharCode._2 i32 (i32.const 50))
+ (global $~lib/internal/string/CharCode._3 i32 (i32.const 51))
+ (global $~lib/internal/string/CharCode._4 i32 (i32.const 52))
+ (global $~lib/internal/string/CharCode._5 i32 (i32.const 53))
+ (global $~lib/internal/string/CharCode._6 i32 (i32.const 54))
+ (global $~lib/internal/string/CharCode._7 i32 (i32.const 55))
+ (global $~lib/internal/string/CharCode._8 i32 (i32.const 56))
+ (global $~lib/internal/string/CharCode._9 i32 (i32.const 57))
+ (global $~lib/internal/string/CharCode.COLON i32 (i32.const 58))
+ (global $~lib/internal/string/CharCode.QUESTION i32 (i32.const 63))
+ (global $~lib/internal/string/CharCode.A i32 (i32.const 65))
+ (global $~lib/internal/string/CharCode.B i32 (i32.const 66))
+ (global $~lib/internal/string/CharCode.D i32 (i32.const 68))
+ (global $~lib/internal/string/CharCode.E i32 (i32.const 69))
+ (global $~lib/internal/string/CharCode.F i32 (i32.const 70))
+ (global $~lib/internal/string/CharCode.O i32 (i32.const 79))
+ (global $~lib/internal/string/CharCode.S i32 (i32.const 83))
+ (global $~lib/internal/string/CharCode.W i32 (i32.const 87))
+ (global $~lib/internal/string/CharCode.X i32 (i32.const 88))
+ (global $~lib/internal/string/CharCode.T i32 (i32.const 84))
+ (global $~lib/internal/string/CharCode.Z i32 (i32.const 90))
+ (global $~lib/internal/string/CharCode.OPENBRACKET i32 (i32.const 91))
+ (global $~lib/internal/string/CharCode.BACKSLASH i32 (i32.const 92))
+ (global $~lib/internal/string/CharCode.CLOSEBRACKET i32 (i32.const 93))
+ (global $~lib/internal/string/CharCode.CARET i32 (i32.const 94))
+ (global $~lib/internal/string/CharCode._ i32 (i32.const 95))
+ (global $~lib/internal/string/CharCode.BACKTICK i32 (i32.const 96))
+ (global $~lib/internal/string/CharCode.a i32 (i32.const 97))
+ (global $~lib/internal/string/CharCode.b i32 (i32.const 98))
+ (global $~lib/internal/string/CharCode.c i32 (i32.const 99))
+ (global $~lib/internal/string/CharCode.d i32 (i32.const 100))
+ (global $~lib/internal/string/CharCode.e i32 (i32.const 101))
+ (global $~lib/internal/string/CharCode.f i32 (i32.const 102))
+ (global $~lib/internal/string/CharCode.g i32 (i32.const 103))
+ (global $~lib/internal/string/CharCode.i i32 (i32.const 105))
+ (global $~lib/internal/string/CharCode.l i32 (i32.const 108))
+ (global $~lib/internal/string/CharCode.m i32 (i32.const 109))
+ (global $~lib/internal/string/CharCode.n i32 (i32.const 110))
+ (global $~lib/internal/string/CharCode.o i32 (i32.const 111))
+ (global $~lib/internal/string/CharCode.r i32 (i32.const 114))
+ (global $~lib/internal/string/CharCode.s i32 (i32.const 115))
+ (global $~lib/internal/string/CharCode.t i32 (i32.const 116))
+ (global $~lib/internal/string/CharCode.u i32 (i32.const 117))
+ (global $~lib/internal/string/CharCode.v i32 (i32.const 118))
+ (global $~lib/internal/string/CharCode.w i32 (i32.const 119))
+ (global $~lib/internal/string/CharCode.x i32 (i32.const 120))
+ (global $~lib/internal/string/CharCode.z i32 (i32.const 122))
+ (global $~lib/internal/string/CharCode.OPENBRACE i32 (i32.const 123))
+ (global $~lib/internal/string/CharCode.BAR i32 (i32.const 124))
+ (global $~lib/internal/string/CharCode.CLOSEBRACE i32 (i32.const 125))
+ (global $~lib/internal/string/CharCode.LINESEPARATOR i32 (i32.const 8232))
+ (global $~lib/internal/string/CharCode.PARAGRAPHSEPARATOR i32 (i32.const 8233))
+ (global $std/regexp/match (mut i32) (i32.const 0))
+ (global $std/regexp/ctor (mut i32) (i32.const 0))
+ (global $std/regexp/empty (mut i32) (i32.const 0))
+ (global $std/regexp/global (mut i32) (i32.const 0))
+ (global $std/regexp/multi (mut i32) (i32.const 0))
+ (global $RTTI_BASE i32 (i32.const 10208))
+ (global $HEAP_BASE i32 (i32.const 10344))
+ (memory $0 1)
+ (data (i32.const 8) "\06\00\00\00a\00(\00b\00+\00)\00c\00")
+ (data (i32.const 24) "\00\00\00\00")
+ (data (i32.const 32) "L\00\00\00\00\00\00\00\01\00\00\00\07\00\00\00\00\00\00\00\01\00\00\00a\00\00\00\07\00\00\00\02\00\00\00\01\00\00\00b\00\00\00\05\00\00\00\07\00\00\00\0c\00\00\00\07\00\00\00\03\00\00\00\01\00\00\00c\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 160) " \00\00\00\13\00\00\00")
+ (data (i32.const 168) "\0e\00\00\00~\00l\00i\00b\00/\00s\00t\00r\00i\00n\00g\00.\00t\00s\00")
+ (data (i32.const 200) "\"\00\00\00I\00n\00v\00a\00l\00i\00d\00 \00r\00e\00g\00u\00l\00a\00r\00 \00e\00x\00p\00r\00e\00s\00s\00i\00o\00n\00 \00f\00l\00a\00g\00s\00 \00\'\00")
+ (data (i32.const 272) "\04\00\00\00n\00u\00l\00l\00")
+ (data (i32.const 288) "\17\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00s\00t\00r\00i\00n\00g\00.\00t\00s\00")
+ (data (i32.const 344) "\01\00\00\00\'\00")
+ (data (i32.const 352) "\0e\00\00\00~\00l\00i\00b\00/\00r\00e\00g\00e\00x\00p\00.\00t\00s\00")
+ (data (i32.const 384) "\14\00\00\00I\00n\00v\00a\00l\00i\00d\00 \00a\00r\00r\00a\00y\00 \00l\00e\00n\00g\00t\00h\00")
+ (data (i32.const 432) "\0d\00\00\00~\00l\00i\00b\00/\00a\00r\00r\00a\00y\00.\00t\00s\00")
+ (data (i32.const 464) "\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s\00")
+ (data (i32.const 528) "\1e\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00r\00e\00g\00e\00x\00p\00-\00p\00a\00r\00s\00e\00r\00.\00t\00s\00")
+ (data (i32.const 592) "\11\00\00\00N\00o\00t\00h\00i\00n\00g\00 \00t\00o\00 \00r\00e\00p\00e\00a\00t\00")
+ (data (i32.const 632) "&\00\00\00L\00o\00o\00k\00a\00h\00e\00a\00d\00 \00a\00s\00s\00e\00r\00t\00i\00o\00n\00s\00 \00a\00r\00e\00 \00n\00o\00t\00 \00s\00u\00p\00p\00o\00r\00t\00e\00d\00")
+ (data (i32.const 712) "\'\00\00\00L\00o\00o\00k\00b\00e\00h\00i\00n\00d\00 \00a\00s\00s\00e\00r\00t\00i\00o\00n\00s\00 \00a\00r\00e\00 \00n\00o\00t\00 \00s\00u\00p\00p\00o\00r\00t\00e\00d\00")
+ (data (i32.const 800) "\0d\00\00\00I\00n\00v\00a\00l\00i\00d\00 \00g\00r\00o\00u\00p\00")
+ (data (i32.const 832) "\12\00\00\00U\00n\00t\00e\00r\00m\00i\00n\00a\00t\00e\00d\00 \00g\00r\00o\00u\00p\00")
+ (data (i32.const 872) "\1c\00\00\00U\00n\00t\00e\00r\00m\00i\00n\00a\00t\00e\00d\00 \00c\00h\00a\00r\00a\00c\00t\00e\00r\00 \00c\00l\00a\00s\00s\00")
+ (data (i32.const 936) "\13\00\00\00\\\00 \00a\00t\00 \00e\00n\00d\00 \00o\00f\00 \00p\00a\00t\00t\00e\00r\00n\00")
+ (data (i32.const 984) "\08\00\00\00\00\00\00\000\00\00\009\00\00\00")
+ (data (i32.const 1000) "\d8\03\00\00\02\00\00\00")
+ (data (i32.const 1008) " \00\00\00\00\00\00\000\00\00\009\00\00\00A\00\00\00Z\00\00\00_\00\00\00_\00\00\00a\00\00\00z\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 1072) "\f0\03\00\00\08\00\00\00")
+ (data (i32.const 1080) "P\00\00\00\00\00\00\00\t\00\00\00\0d\00\00\00 \00\00\00 \00\00\00\a0\00\00\00\a0\00\00\00\80\16\00\00\80\16\00\00\00 \00\00\n \00\00( \00\00) \00\00/ \00\00/ \00\00_ \00\00_ \00\00\000\00\00\000\00\00\ff\fe\00\00\ff\fe\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 1208) "8\04\00\00\14\00\00\00")
+ (data (i32.const 1216) "\17\00\00\00I\00n\00v\00a\00l\00i\00d\00 \00c\00h\00a\00r\00a\00c\00t\00e\00r\00 \00c\00l\00a\00s\00s\00")
+ (data (i32.const 1272) "%\00\00\00R\00a\00n\00g\00e\00 \00o\00u\00t\00 \00o\00f\00 \00o\00r\00d\00e\00r\00 \00i\00n\00 \00c\00h\00a\00r\00a\00c\00t\00e\00r\00 \00c\00l\00a\00s\00s\00")
+ (data (i32.const 1352) " \00\00\00B\00a\00c\00k\00r\00e\00f\00e\00r\00e\00n\00c\00e\00s\00 \00a\00r\00e\00 \00n\00o\00t\00 \00s\00u\00p\00p\00o\00r\00t\00e\00d\00")
+ (data (i32.const 1424) "%\00\00\00N\00u\00m\00b\00e\00r\00s\00 \00o\00u\00t\00 \00o\00f\00 \00o\00r\00d\00e\00r\00 \00i\00n\00 \00{\00}\00 \00q\00u\00a\00n\00t\00i\00f\00i\00e\00r\00")
+ (data (i32.const 1504) "\0d\00\00\00U\00n\00m\00a\00t\00c\00h\00e\00d\00 \00\'\00)\00\'\00")
+ (data (i32.const 1536) "\1d\00\00\00I\00n\00v\00a\00l\00i\00d\00 \00r\00e\00g\00u\00l\00a\00r\00 \00e\00x\00p\00r\00e\00s\00s\00i\00o\00n\00:\00 \00/\00")
+ (data (i32.const 1600) "\03\00\00\00/\00:\00 \00")
+ (data (i32.const 1616) "\04\00\00\00(\00?\00:\00)\00")
+ (data (i32.const 1632) "\10\00\00\00~\00l\00i\00b\00/\00b\00u\00i\00l\00t\00i\00n\00s\00.\00t\00s\00")
+ (data (i32.const 1672) "\0d\00\00\00s\00t\00d\00/\00r\00e\00g\00e\00x\00p\00.\00t\00s\00")
+ (data (i32.const 1704) "\01\00\00\00g\00")
+ (data (i32.const 1712) "\01\00\00\00i\00")
+ (data (i32.const 1720) "\01\00\00\00m\00")
+ (data (i32.const 1728) "\01\00\00\00/\00")
+ (data (i32.const 1736) "\08\00\00\00/\00a\00(\00b\00+\00)\00c\00/\00")
+ (data (i32.const 1760) "\07\00\00\00x\00a\00b\00b\00b\00c\00x\00")
+ (data (i32.const 1784) "\17\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00r\00e\00g\00e\00x\00p\00.\00t\00s\00")
+ (data (i32.const 1840) "\04\00\00\00x\00a\00c\00x\00")
+ (data (i32.const 1856) "\05\00\00\00a\00b\00b\00b\00c\00")
+ (data (i32.const 1872) "\03\00\00\00b\00b\00b\00")
+ (data (i32.const 1888) "\0c\00\00\00(\00\\\00d\00+\00)\00-\00(\00\\\00d\00+\00)\00?\00")
+ (data (i32.const 1920) "\0f\00\00\00/\00(\00\\\00d\00+\00)\00-\00(\00\\\00d\00+\00)\00?\00/\00g\00")
+ (data (i32.const 1960) "\08\00\00\001\00-\002\00,\00 \003\004\00-\00")
+ (data (i32.const 1984) "\01\00\00\001\00")
+ (data (i32.const 1992) "\01\00\00\002\00")
+ (data (i32.const 2000) "\02\00\00\003\004\00")
+ (data (i32.const 2008) "\08\00\00\00a\00n\00y\00t\00h\00i\00n\00g\00")
+ (data (i32.const 2032) "\03\00\00\00a\00*\00*\00")
+ (data (i32.const 2048) "\02\00\00\00(\00a\00")
+ (data (i32.const 2056) "\02\00\00\00a\00)\00")
+ (data (i32.const 2064) "\02\00\00\00[\00a\00")
+ (data (i32.const 2072) "\05\00\00\00[\00z\00-\00a\00]\00")
+ (data (i32.const 2088) "\06\00\00\00a\00{\002\00,\001\00}\00")
+ (data (i32.const 2104) "\06\00\00\00a\00(\00?\00=\00b\00)\00")
+ (data (i32.const 2120) "\06\00\00\00a\00(\00?\00!\00b\00)\00")
+ (data (i32.const 2136) "\07\00\00\00(\00?\00<\00=\00a\00)\00b\00")
+ (data (i32.const 2160) "\05\00\00\00(\00a\00)\00\\\001\00")
+ (data (i32.const 2176) "\01\00\00\00a\00")
+ (data (i32.const 2184) "\02\00\00\00g\00g\00")
+ (data (i32.const 2192) "\01\00\00\00x\00")
+ (data (i32.const 2200) "\05\00\00\00a\00{\00,\002\00}\00")
+ (data (i32.const 2216) "\08\00\00\00^\00[\00a\00-\00c\00]\00+\00$\00")
+ (data (i32.const 2240) "<\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\03\00\00\00\01\00\00\00a\00\00\00c\00\00\00\05\00\00\00\04\00\00\00\0b\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 2368) "\c0\08\00\00\0f\00\00\00")
+ (data (i32.const 2376) "\06\00\00\00a\00b\00c\00a\00b\00c\00")
+ (data (i32.const 2392) "<\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\03\00\00\00\01\00\00\00a\00\00\00c\00\00\00\05\00\00\00\04\00\00\00\0b\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 2520) "X\t\00\00\0f\00\00\00")
+ (data (i32.const 2528) "\04\00\00\00a\00b\00c\00d\00")
+ (data (i32.const 2544) "\t\00\00\00^\00[\00^\00a\00-\00c\00]\00+\00$\00")
+ (data (i32.const 2568) "<\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\04\00\00\00\01\00\00\00a\00\00\00c\00\00\00\05\00\00\00\04\00\00\00\0b\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 2696) "\08\n\00\00\0f\00\00\00")
+ (data (i32.const 2704) "\03\00\00\00x\00y\00z\00")
+ (data (i32.const 2720) "<\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\04\00\00\00\01\00\00\00a\00\00\00c\00\00\00\05\00\00\00\04\00\00\00\0b\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 2848) "\a0\n\00\00\0f\00\00\00")
+ (data (i32.const 2856) "\03\00\00\00x\00a\00z\00")
+ (data (i32.const 2872) "\0e\00\00\00^\00\\\00d\00\\\00D\00\\\00w\00\\\00W\00\\\00s\00\\\00S\00$\00")
+ (data (i32.const 2904) "X\01\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\03\00\00\00\01\00\00\000\00\00\009\00\00\00\03\00\00\00\02\00\00\00\00\00\00\00/\00\00\00:\00\00\00\ff\ff\00\00\03\00\00\00\04\00\00\000\00\00\009\00\00\00A\00\00\00Z\00\00\00_\00\00\00_\00\00\00a\00\00\00z\00\00\00\03\00\00\00\05\00\00\00\00\00\00\00/\00\00\00:\00\00\00@\00\00\00[\00\00\00^\00\00\00`\00\00\00`\00\00\00{\00\00\00\ff\ff\00\00\03\00\00\00\n\00\00\00\t\00\00\00\0d\00\00\00 \00\00\00 \00\00\00\a0\00\00\00\a0\00\00\00\80\16\00\00\80\16\00\00\00 \00\00\n \00\00( \00\00) \00\00/ \00\00/ \00\00_ \00\00_ \00\00\000\00\00\000\00\00\ff\fe\00\00\ff\fe\00\00\03\00\00\00\0b\00\00\00\00\00\00\00\08\00\00\00\0e\00\00\00\1f\00\00\00!\00\00\00\9f\00\00\00\a1\00\00\00\7f\16\00\00\81\16\00\00\ff\1f\00\00\0b \00\00\' \00\00* \00\00. \00\000 \00\00^ \00\00` \00\00\ff/\00\00\010\00\00\fe\fe\00\00\00\ff\00\00\ff\ff\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 3416) "X\0b\00\00V\00\00\00")
+ (data (i32.const 3424) "\06\00\00\001\00a\00_\00 \00\t\00x\00")
+ (data (i32.const 3440) "\08\00\00\00^\00[\00\\\00d\00.\00]\00+\00$\00")
+ (data (i32.const 3464) "D\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\03\00\00\00\02\00\00\000\00\00\009\00\00\00.\00\00\00.\00\00\00\05\00\00\00\04\00\00\00\0d\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 3592) "\88\0d\00\00\11\00\00\00")
+ (data (i32.const 3600) "\04\00\00\003\00.\001\004\00")
+ (data (i32.const 3616) "\07\00\00\00^\00[\00\\\00D\00]\00+\00$\00")
+ (data (i32.const 3640) "D\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\03\00\00\00\02\00\00\00\00\00\00\00/\00\00\00:\00\00\00\ff\ff\00\00\05\00\00\00\04\00\00\00\0d\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 3768) "8\0e\00\00\11\00\00\00")
+ (data (i32.const 3776) "\03\00\00\00a\00b\00c\00")
+ (data (i32.const 3792) "\07\00\00\00^\00[\00-\00a\00]\00+\00$\00")
+ (data (i32.const 3816) "D\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\03\00\00\00\02\00\00\00-\00\00\00-\00\00\00a\00\00\00a\00\00\00\05\00\00\00\04\00\00\00\0d\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 3944) "\e8\0e\00\00\11\00\00\00")
+ (data (i32.const 3952) "\03\00\00\00a\00-\00a\00")
+ (data (i32.const 3968) "\07\00\00\00^\00[\00a\00-\00]\00+\00$\00")
+ (data (i32.const 3992) "D\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\03\00\00\00\02\00\00\00a\00\00\00a\00\00\00-\00\00\00-\00\00\00\05\00\00\00\04\00\00\00\0d\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 4120) "\98\0f\00\00\11\00\00\00")
+ (data (i32.const 4128) "\05\00\00\00^\00a\00.\00c\00$\00")
+ (data (i32.const 4144) "4\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00a\00\00\00\02\00\00\00\01\00\00\00c\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 4208) "0\10\00\00\0d\00\00\00")
+ (data (i32.const 4216) "4\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00a\00\00\00\02\00\00\00\01\00\00\00c\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 4280) "x\10\00\00\0d\00\00\00")
+ (data (i32.const 4288) "\03\00\00\00a\00\n\00c\00")
+ (data (i32.const 4304) "\t\00\00\00^\00\\\00x\004\001\00B\00\\\00t\00$\00")
+ (data (i32.const 4328) "8\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00A\00\00\00\01\00\00\00B\00\00\00\01\00\00\00\t\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00")
+ (data (i32.const 4392) "\e8\10\00\00\0e\00\00\00")
+ (data (i32.const 4400) "\03\00\00\00A\00B\00\t\00")
+ (data (i32.const 4416) "\08\00\00\00^\00\\\00.\00\\\00*\00\\\00\\\00$\00")
+ (data (i32.const 4440) "8\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00.\00\00\00\01\00\00\00*\00\00\00\01\00\00\00\\\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00")
+ (data (i32.const 4504) "X\11\00\00\0e\00\00\00")
+ (data (i32.const 4512) "\03\00\00\00.\00*\00\\\00")
+ (data (i32.const 4528) "\06\00\00\00^\00[\00\\\00b\00]\00$\00")
+ (data (i32.const 4544) "0\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\03\00\00\00\01\00\00\00\08\00\00\00\08\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 4608) "\c0\11\00\00\0c\00\00\00")
+ (data (i32.const 4616) "\01\00\00\00\08\00")
+ (data (i32.const 4624) "\04\00\00\00^\00a\00*\00$\00")
+ (data (i32.const 4640) "<\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\05\00\00\00\07\00\00\00\0b\00\00\00\01\00\00\00a\00\00\00\06\00\00\00\04\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 4768) " \12\00\00\0f\00\00\00")
+ (data (i32.const 4776) "\04\00\00\00^\00a\00+\00$\00")
+ (data (i32.const 4792) "4\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00a\00\00\00\05\00\00\00\04\00\00\00\t\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 4856) "\b8\12\00\00\0d\00\00\00")
+ (data (i32.const 4864) "\03\00\00\00a\00a\00a\00")
+ (data (i32.const 4880) "4\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00a\00\00\00\05\00\00\00\04\00\00\00\t\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 4944) "\10\13\00\00\0d\00\00\00")
+ (data (i32.const 4952) "\06\00\00\00^\00a\00b\00?\00c\00$\00")
+ (data (i32.const 4968) "D\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00a\00\00\00\05\00\00\00\t\00\00\00\0b\00\00\00\01\00\00\00b\00\00\00\01\00\00\00c\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 5096) "h\13\00\00\11\00\00\00")
+ (data (i32.const 5104) "\02\00\00\00a\00c\00")
+ (data (i32.const 5112) "D\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00a\00\00\00\05\00\00\00\t\00\00\00\0b\00\00\00\01\00\00\00b\00\00\00\01\00\00\00c\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 5240) "\f8\13\00\00\11\00\00\00")
+ (data (i32.const 5248) "D\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00a\00\00\00\05\00\00\00\t\00\00\00\0b\00\00\00\01\00\00\00b\00\00\00\01\00\00\00c\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 5376) "\80\14\00\00\11\00\00\00")
+ (data (i32.const 5384) "\04\00\00\00a\00b\00b\00c\00")
+ (data (i32.const 5400) "\06\00\00\00^\00a\00{\003\00}\00$\00")
+ (data (i32.const 5416) "8\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00a\00\00\00\01\00\00\00a\00\00\00\01\00\00\00a\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00")
+ (data (i32.const 5480) "(\15\00\00\0e\00\00\00")
+ (data (i32.const 5488) "8\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00a\00\00\00\01\00\00\00a\00\00\00\01\00\00\00a\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00")
+ (data (i32.const 5552) "p\15\00\00\0e\00\00\00")
+ (data (i32.const 5560) "\02\00\00\00a\00a\00")
+ (data (i32.const 5568) "\07\00\00\00^\00a\00{\002\00,\00}\00$\00")
+ (data (i32.const 5592) "<\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00a\00\00\00\01\00\00\00a\00\00\00\05\00\00\00\06\00\00\00\0b\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 5720) "\d8\15\00\00\0f\00\00\00")
+ (data (i32.const 5728) "\05\00\00\00a\00a\00a\00a\00a\00")
+ (data (i32.const 5744) "<\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00a\00\00\00\01\00\00\00a\00\00\00\05\00\00\00\06\00\00\00\0b\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 5872) "p\16\00\00\0f\00\00\00")
+ (data (i32.const 5880) "\08\00\00\00^\00a\00{\001\00,\002\00}\00$\00")
+ (data (i32.const 5904) "<\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00a\00\00\00\05\00\00\00\t\00\00\00\0b\00\00\00\01\00\00\00a\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 6032) "\10\17\00\00\0f\00\00\00")
+ (data (i32.const 6040) "<\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00a\00\00\00\05\00\00\00\t\00\00\00\0b\00\00\00\01\00\00\00a\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 6168) "\98\17\00\00\0f\00\00\00")
+ (data (i32.const 6176) "\04\00\00\00^\00a\00{\00$\00")
+ (data (i32.const 6192) "0\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00a\00\00\00\01\00\00\00{\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 6256) "0\18\00\00\0c\00\00\00")
+ (data (i32.const 6264) "\02\00\00\00a\00{\00")
+ (data (i32.const 6272) "\0b\00\00\00^\00(\00?\00:\00a\00b\00)\00{\002\00}\00$\00")
+ (data (i32.const 6304) "@\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00a\00\00\00\01\00\00\00b\00\00\00\01\00\00\00a\00\00\00\01\00\00\00b\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 6432) "\a0\18\00\00\10\00\00\00")
+ (data (i32.const 6440) "\04\00\00\00a\00b\00a\00b\00")
+ (data (i32.const 6456) "\07\00\00\00^\00(\00a\00*\00)\00*\00$\00")
+ (data (i32.const 6480) "`\00\00\00\00\00\00\00\01\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\05\00\00\00\07\00\00\00\14\00\00\00\07\00\00\00\02\00\00\00\05\00\00\00\0c\00\00\00\10\00\00\00\01\00\00\00a\00\00\00\06\00\00\00\t\00\00\00\07\00\00\00\03\00\00\00\06\00\00\00\04\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 6608) "P\19\00\00\18\00\00\00")
+ (data (i32.const 6616) "\06\00\00\00<\00(\00.\00+\00)\00>\00")
+ (data (i32.const 6632) "H\00\00\00\00\00\00\00\01\00\00\00\07\00\00\00\00\00\00\00\01\00\00\00<\00\00\00\07\00\00\00\02\00\00\00\02\00\00\00\05\00\00\00\07\00\00\00\0b\00\00\00\07\00\00\00\03\00\00\00\01\00\00\00>\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 6760) "\e8\19\00\00\12\00\00\00")
+ (data (i32.const 6768) "\06\00\00\00<\00a\00>\00<\00b\00>\00")
+ (data (i32.const 6784) "\04\00\00\00a\00>\00<\00b\00")
+ (data (i32.const 6800) "\07\00\00\00<\00(\00.\00+\00?\00)\00>\00")
+ (data (i32.const 6824) "H\00\00\00\00\00\00\00\01\00\00\00\07\00\00\00\00\00\00\00\01\00\00\00<\00\00\00\07\00\00\00\02\00\00\00\02\00\00\00\05\00\00\00\0b\00\00\00\07\00\00\00\07\00\00\00\03\00\00\00\01\00\00\00>\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 6952) "\a8\1a\00\00\12\00\00\00")
+ (data (i32.const 6960) "\t\00\00\00(\00a\00+\00?\00)\00(\00a\00*\00)\00")
+ (data (i32.const 6984) "h\00\00\00\00\00\00\00\02\00\00\00\07\00\00\00\00\00\00\00\07\00\00\00\02\00\00\00\01\00\00\00a\00\00\00\05\00\00\00\n\00\00\00\05\00\00\00\07\00\00\00\03\00\00\00\07\00\00\00\04\00\00\00\05\00\00\00\11\00\00\00\15\00\00\00\01\00\00\00a\00\00\00\06\00\00\00\0e\00\00\00\07\00\00\00\05\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 7112) "H\1b\00\00\1a\00\00\00")
+ (data (i32.const 7120) "\07\00\00\00a\00{\002\00,\003\00}\00?\00")
+ (data (i32.const 7144) "<\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\01\00\00\00a\00\00\00\01\00\00\00a\00\00\00\05\00\00\00\0c\00\00\00\n\00\00\00\01\00\00\00a\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 7272) "\e8\1b\00\00\0f\00\00\00")
+ (data (i32.const 7280) "\04\00\00\00a\00a\00a\00a\00")
+ (data (i32.const 7296) "\0b\00\00\00(\00c\00a\00t\00|\00d\00o\00g\00)\00s\00?\00")
+ (data (i32.const 7328) "\80\00\00\00\00\00\00\00\01\00\00\00\07\00\00\00\00\00\00\00\07\00\00\00\02\00\00\00\05\00\00\00\08\00\00\00\10\00\00\00\01\00\00\00c\00\00\00\01\00\00\00a\00\00\00\01\00\00\00t\00\00\00\06\00\00\00\16\00\00\00\01\00\00\00d\00\00\00\01\00\00\00o\00\00\00\01\00\00\00g\00\00\00\07\00\00\00\03\00\00\00\05\00\00\00\1b\00\00\00\1d\00\00\00\01\00\00\00s\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 7584) "\a0\1c\00\00 \00\00\00")
+ (data (i32.const 7592) "\07\00\00\00h\00o\00t\00d\00o\00g\00s\00")
+ (data (i32.const 7616) "\04\00\00\00d\00o\00g\00s\00")
+ (data (i32.const 7632) "\03\00\00\00d\00o\00g\00")
+ (data (i32.const 7648) "\04\00\00\00a\00|\00a\00b\00")
+ (data (i32.const 7664) "D\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\05\00\00\00\06\00\00\00\n\00\00\00\01\00\00\00a\00\00\00\06\00\00\00\0e\00\00\00\01\00\00\00a\00\00\00\01\00\00\00b\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 7792) "\f0\1d\00\00\11\00\00\00")
+ (data (i32.const 7800) "\02\00\00\00a\00b\00")
+ (data (i32.const 7808) "\07\00\00\00(\00a\00)\00|\00(\00b\00)\00")
+ (data (i32.const 7832) "\\\00\00\00\00\00\00\00\02\00\00\00\07\00\00\00\00\00\00\00\05\00\00\00\06\00\00\00\0e\00\00\00\07\00\00\00\02\00\00\00\01\00\00\00a\00\00\00\07\00\00\00\03\00\00\00\06\00\00\00\14\00\00\00\07\00\00\00\04\00\00\00\01\00\00\00b\00\00\00\07\00\00\00\05\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 7960) "\98\1e\00\00\17\00\00\00")
+ (data (i32.const 7968) "\01\00\00\00b\00")
+ (data (i32.const 7976) "\n\00\00\00(\00?\00:\00(\00x\00)\00|\00y\00)\00+\00")
+ (data (i32.const 8000) "X\00\00\00\00\00\00\00\01\00\00\00\07\00\00\00\00\00\00\00\05\00\00\00\06\00\00\00\0e\00\00\00\07\00\00\00\02\00\00\00\01\00\00\00x\00\00\00\07\00\00\00\03\00\00\00\06\00\00\00\10\00\00\00\01\00\00\00y\00\00\00\05\00\00\00\03\00\00\00\13\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 8128) "@\1f\00\00\16\00\00\00")
+ (data (i32.const 8136) "\02\00\00\00x\00y\00")
+ (data (i32.const 8144) "\07\00\00\00^\00(\00|\00a\00)\00b\00$\00")
+ (data (i32.const 8168) "T\00\00\00\00\00\00\00\01\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\07\00\00\00\02\00\00\00\05\00\00\00\t\00\00\00\0b\00\00\00\06\00\00\00\0d\00\00\00\01\00\00\00a\00\00\00\07\00\00\00\03\00\00\00\01\00\00\00b\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 8296) "\e8\1f\00\00\15\00\00\00")
+ (data (i32.const 8304) "\05\00\00\00^\00a\00b\00c\00$\00")
+ (data (i32.const 8320) "8\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00a\00\00\00\01\00\00\00b\00\00\00\01\00\00\00c\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00")
+ (data (i32.const 8384) "\80 \00\00\0e\00\00\00")
+ (data (i32.const 8392) "\03\00\00\00^\00b\00c\00")
+ (data (i32.const 8408) ",\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00b\00\00\00\01\00\00\00c\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 8472) "\d8 \00\00\0b\00\00\00")
+ (data (i32.const 8480) "\03\00\00\00a\00b\00$\00")
+ (data (i32.const 8496) ",\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\01\00\00\00a\00\00\00\01\00\00\00b\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 8560) "0!\00\00\0b\00\00\00")
+ (data (i32.const 8568) "\03\00\00\00^\00b\00$\00")
+ (data (i32.const 8584) "(\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00b\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 8648) "\88!\00\00\n\00\00\00")
+ (data (i32.const 8656) "\05\00\00\00a\00\n\00b\00\n\00c\00")
+ (data (i32.const 8672) "(\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\01\00\00\00b\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 8736) "\e0!\00\00\n\00\00\00")
+ (data (i32.const 8744) "\07\00\00\00\\\00b\00c\00a\00t\00\\\00b\00")
+ (data (i32.const 8768) "8\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\n\00\00\00\01\00\00\00c\00\00\00\01\00\00\00a\00\00\00\01\00\00\00t\00\00\00\n\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00")
+ (data (i32.const 8832) "@\"\00\00\0e\00\00\00")
+ (data (i32.const 8840) "\n\00\00\00a\00 \00c\00a\00t\00 \00h\00e\00r\00e\00")
+ (data (i32.const 8864) "8\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\n\00\00\00\01\00\00\00c\00\00\00\01\00\00\00a\00\00\00\01\00\00\00t\00\00\00\n\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00")
+ (data (i32.const 8928) "\a0\"\00\00\0e\00\00\00")
+ (data (i32.const 8936) "\0b\00\00\00c\00o\00n\00c\00a\00t\00e\00n\00a\00t\00e\00")
+ (data (i32.const 8968) "\07\00\00\00\\\00B\00c\00a\00t\00\\\00B\00")
+ (data (i32.const 8992) "8\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\0b\00\00\00\01\00\00\00c\00\00\00\01\00\00\00a\00\00\00\01\00\00\00t\00\00\00\0b\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00")
+ (data (i32.const 9056) " #\00\00\0e\00\00\00")
+ (data (i32.const 9064) "\05\00\00\00h\00e\00l\00l\00o\00")
+ (data (i32.const 9080) "@\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\01\00\00\00h\00\00\00\01\00\00\00e\00\00\00\01\00\00\00l\00\00\00\01\00\00\00l\00\00\00\01\00\00\00o\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 9208) "x#\00\00\10\00\00\00")
+ (data (i32.const 9216) "\05\00\00\00H\00e\00L\00L\00o\00")
+ (data (i32.const 9232) "\06\00\00\00[\00a\00-\00z\00]\00+\00")
+ (data (i32.const 9248) "4\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\03\00\00\00\01\00\00\00a\00\00\00z\00\00\00\05\00\00\00\03\00\00\00\n\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 9312) " $\00\00\0d\00\00\00")
+ (data (i32.const 9320) "\03\00\00\00A\00B\00C\00")
+ (data (i32.const 9336) "\06\00\00\00[\00A\00-\00Z\00]\00+\00")
+ (data (i32.const 9352) "4\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\03\00\00\00\01\00\00\00A\00\00\00Z\00\00\00\05\00\00\00\03\00\00\00\n\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 9416) "\88$\00\00\0d\00\00\00")
+ (data (i32.const 9424) "\01\00\00\00\e9\00")
+ (data (i32.const 9432) " \00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\01\00\00\00\e9\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 9496) "\d8$\00\00\08\00\00\00")
+ (data (i32.const 9504) "\01\00\00\00\c9\00")
+ (data (i32.const 9512) "@\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\01\00\00\00h\00\00\00\01\00\00\00e\00\00\00\01\00\00\00l\00\00\00\01\00\00\00l\00\00\00\01\00\00\00o\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 9640) "(%\00\00\10\00\00\00")
+ (data (i32.const 9648) "\05\00\00\00H\00E\00L\00L\00O\00")
+ (data (i32.const 9664) "\01\00\00\00o\00")
+ (data (i32.const 9672) " \00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\01\00\00\00o\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 9736) "\c8%\00\00\08\00\00\00")
+ (data (i32.const 9744) "\03\00\00\00f\00o\00o\00")
+ (data (i32.const 9760) "\03\00\00\00g\00i\00m\00")
+ (data (i32.const 9776) " \00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\01\00\00\00x\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 9840) "0&\00\00\08\00\00\00")
+ (data (i32.const 9848) " \00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\01\00\00\00x\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 9912) "x&\00\00\08\00\00\00")
+ (data (i32.const 9920) "\05\00\00\00^\00\\\00w\00+\00$\00")
+ (data (i32.const 9936) "\02\00\00\00g\00m\00")
+ (data (i32.const 9944) "T\00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\08\00\00\00\03\00\00\00\04\00\00\000\00\00\009\00\00\00A\00\00\00Z\00\00\00_\00\00\00_\00\00\00a\00\00\00z\00\00\00\05\00\00\00\04\00\00\00\11\00\00\00\t\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 10072) "\d8&\00\00\15\00\00\00")
+ (data (i32.const 10080) "\07\00\00\00o\00n\00e\00\n\00t\00w\00o\00")
+ (data (i32.const 10104) "\03\00\00\00o\00n\00e\00")
+ (data (i32.const 10120) "\03\00\00\00t\00w\00o\00")
+ (data (i32.const 10136) " \00\00\00\00\00\00\00\00\00\00\00\07\00\00\00\00\00\00\00\01\00\00\00a\00\00\00\07\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 10200) "\98\'\00\00\08\00\00\00")
+ (data (i32.const 10208) "\0b\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\02\00\00\00\00\00\00\00\00\00\00\00\03\00\00\00\00\00\00\00\04\00\00\00\04\00\00\00\00\00\00\00\00\00\00\00\05\00\00\00\00\00\00\00\00\00\00\00\06\00\00\00\03\00\00\00\04\00\00\00\07\00\00\00\00\00\00\00\00\00\00\00\08\00\00\00\03\00\00\00\04\00\00\00\t\00\00\00\00\00\00\00\00\00\00\00\n\00\00\00\00\00\00\00\00\00\00\00\0b\00\00\00\00\00\00\00\00\00\00\00")
+ (export "RTTI_BASE" (global $RTTI_BASE))
+ (export "memory" (memory $0))
+ (start $start)
+ (func $~lib/string/String#charCodeAt (; 1 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (if
+   (i32.eqz
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 168)
+     (i32.const 96)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (i32.load
+     (get_local $0)
+    )
+   )
+   (return
+    (i32.const -1)
+   )
+  )
+  (i32.load16_u offset=4
+   (i32.add
+    (get_local $0)
+    (i32.shl
+     (get_local $1)
+     (i32.const 1)
+    )
+   )
+  )
+ )
+ (func $~lib/internal/regexp-parser/parseFlags (; 2 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $1
+   (i32.const 0)
+  )
+  (block $break|0
+   (block
+    (set_local $2
+     (i32.const 0)
+    )
+    (set_local $3
+     (i32.load
+      (get_local $0)
+     )
+    )
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $2)
+       (get_local $3)
+      )
+     )
+    )
+    (block
+     (block $break|1
+      (block $case3|1
+       (block $case2|1
+        (block $case1|1
+         (block $case0|1
+          (set_local $5
+           (call $~lib/string/String#charCodeAt
+            (get_local $0)
+            (get_local $2)
+           )
+          )
+          (br_if $case0|1
+           (i32.eq
+            (get_local $5)
+            (i32.const 103)
+           )
+          )
+          (br_if $case1|1
+           (i32.eq
+            (get_local $5)
+            (i32.const 105)
+           )
+          )
+          (br_if $case2|1
+           (i32.eq
+            (get_local $5)
+            (i32.const 109)
+           )
+          )
+          (br $case3|1)
+         )
+         (block
+          (set_local $4
+           (i32.const 1)
+          )
+          (br $break|1)
+         )
+        )
+        (block
+         (set_local $4
+          (i32.const 2)
+         )
+         (br $break|1)
+        )
+       )
+       (block
+        (set_local $4
+         (i32.const 4)
+        )
+        (br $break|1)
+       )
+      )
+      (return
+       (i32.const -1)
+      )
+     )
+     (if
+      (i32.and
+       (get_local $1)
+       (get_local $4)
+      )
+      (return
+       (i32.const -1)
+      )
+     )
+     (set_local $1
+      (i32.or
+       (get_local $1)
+       (get_local $4)
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $1)
+ )
+ (func $~lib/allocator/arena/__memory_allocate (; 3 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (get_global $~lib/internal/allocator/MAX_SIZE_32)
+   )
+   (unreachable)
+  )
+  (set_local $1
+   (get_global $~lib/allocator/arena/offset)
+  )
+  (set_local $4
+   (i32.and
+    (i32.add
+     (i32.add
+      (get_local $1)
+      (select
+       (tee_local $2
+        (get_local $0)
+       )
+       (tee_local $3
+        (i32.const 1)
+       )
+       (i32.gt_u
+        (get_local $2)
+        (get_local $3)
+       )
+      )
+     )
+     (get_global $~lib/internal/allocator/AL_MASK)
+    )
+    (i32.xor
+     (get_global $~lib/internal/allocator/AL_MASK)
+     (i32.const -1)
+    )
+   )
+  )
+  (set_local $5
+   (current_memory)
+  )
+  (if
+   (i32.gt_u
+    (get_local $4)
+    (i32.shl
+     (get_local $5)
+     (i32.const 16)
+    )
+   )
+   (block
+    (set_local $2
+     (i32.shr_u
+      (i32.and
+       (i32.add
+        (i32.sub
+         (get_local $4)
+         (get_local $1)
+        )
+        (i32.const 65535)
+       )
+       (i32.xor
+        (i32.const 65535)
+        (i32.const -1)
+       )
+      )
+      (i32.const 16)
+     )
+    )
+    (set_local $3
+     (select
+      (tee_local $3
+       (get_local $5)
+      )
+      (tee_local $6
+       (get_local $2)
+      )
+      (i32.gt_s
+       (get_local $3)
+       (get_local $6)
+      )
+     )
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $3)
+      )
+      (i32.const 0)
+     )
+     (if
+      (i32.lt_s
+       (grow_memory
+        (get_local $2)
+       )
+       (i32.const 0)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_local $4)
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/string/allocateUnsafe (; 4 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $1
+      (i32.gt_s
+       (get_local $0)
+       (i32.const 0)
+      )
+     )
+     (i32.le_s
+      (get_local $0)
+      (get_global $~lib/internal/string/MAX_LENGTH)
+     )
+     (get_local $1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 288)
+     (i32.const 28)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $2
+   (block $~lib/memory/memory.allocate|inlined.0 (result i32)
+    (set_local $1
+     (i32.add
+      (get_global $~lib/internal/string/HEADER_SIZE)
+      (i32.shl
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (br $~lib/memory/memory.allocate|inlined.0
+     (call $~lib/allocator/arena/__memory_allocate
+      (get_local $1)
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $2)
+   (get_local $0)
+  )
+  (get_local $2)
+ )
+ (func $~lib/internal/memory/memcpy (; 5 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (block $break|0
+   (loop $continue|0
+    (if
+     (if (result i32)
+      (get_local $2)
+      (i32.and
+       (get_local $1)
+       (i32.const 3)
+      )
+      (get_local $2)
+     )
+     (block
+      (block
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (i32.and
+     (get_local $0)
+     (i32.const 3)
+    )
+    (i32.const 0)
+   )
+   (block
+    (block $break|1
+     (loop $continue|1
+      (if
+       (i32.ge_u
+        (get_local $2)
+        (i32.const 16)
+       )
+       (block
+        (block
+         (i32.store
+          (get_local $0)
+          (i32.load
+           (get_local $1)
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 4)
+          )
+          (i32.load
+           (i32.add
+            (get_local $1)
+            (i32.const 4)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 8)
+          )
+          (i32.load
+           (i32.add
+            (get_local $1)
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 12)
+          )
+          (i32.load
+           (i32.add
+            (get_local $1)
+            (i32.const 12)
+           )
+          )
+         )
+         (set_local $1
+          (i32.add
+           (get_local $1)
+           (i32.const 16)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (get_local $0)
+           (i32.const 16)
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 16)
+          )
+         )
+        )
+        (br $continue|1)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 8)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+       (i32.load
+        (i32.add
+         (get_local $1)
+         (i32.const 4)
+        )
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 8)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 8)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 4)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 4)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 2)
+     )
+     (block
+      (i32.store16
+       (get_local $0)
+       (i32.load16_u
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 2)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 1)
+     )
+     (i32.store8
+      (block (result i32)
+       (set_local $5
+        (get_local $0)
+       )
+       (set_local $0
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+      (i32.load8_u
+       (block (result i32)
+        (set_local $5
+         (get_local $1)
+        )
+        (set_local $1
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+      )
+     )
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $2)
+    (i32.const 32)
+   )
+   (block $break|2
+    (block $case2|2
+     (block $case1|2
+      (block $case0|2
+       (set_local $5
+        (i32.and
+         (get_local $0)
+         (i32.const 3)
+        )
+       )
+       (br_if $case0|2
+        (i32.eq
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (br_if $case1|2
+        (i32.eq
+         (get_local $5)
+         (i32.const 2)
+        )
+       )
+       (br_if $case2|2
+        (i32.eq
+         (get_local $5)
+         (i32.const 3)
+        )
+       )
+       (br $break|2)
+      )
+      (block
+       (set_local $3
+        (i32.load
+         (get_local $1)
+        )
+       )
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 3)
+        )
+       )
+       (block $break|3
+        (loop $continue|3
+         (if
+          (i32.ge_u
+           (get_local $2)
+           (i32.const 17)
+          )
+          (block
+           (block
+            (set_local $4
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 1)
+              )
+             )
+            )
+            (i32.store
+             (get_local $0)
+             (i32.or
+              (i32.shr_u
+               (get_local $3)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $4)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 5)
+              )
+             )
+            )
+            (i32.store
+             (i32.add
+              (get_local $0)
+              (i32.const 4)
+             )
+             (i32.or
+              (i32.shr_u
+               (get_local $4)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $3)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $4
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 9)
+              )
+             )
+            )
+            (i32.store
+             (i32.add
+              (get_local $0)
+              (i32.const 8)
+             )
+             (i32.or
+              (i32.shr_u
+               (get_local $3)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $4)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 13)
+              )
+             )
+            )
+            (i32.store
+             (i32.add
+              (get_local $0)
+              (i32.const 12)
+             )
+             (i32.or
+              (i32.shr_u
+               (get_local $4)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $3)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $1
+             (i32.add
+              (get_local $1)
+              (i32.const 16)
+             )
+            )
+            (set_local $0
+             (i32.add
+              (get_local $0)
+              (i32.const 16)
+             )
+            )
+            (set_local $2
+             (i32.sub
+              (get_local $2)
+              (i32.const 16)
+             )
+            )
+           )
+           (br $continue|3)
+          )
+         )
+        )
+       )
+       (br $break|2)
+      )
+     )
+     (block
+      (set_local $3
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store8
+       (block (result i32)
+        (set_local $5
+         (get_local $0)
+        )
+        (set_local $0
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+       (i32.load8_u
+        (block (result i32)
+         (set_local $5
+          (get_local $1)
+         )
+         (set_local $1
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+       )
+      )
+      (i32.store8
+       (block (result i32)
+        (set_local $5
+         (get_local $0)
+        )
+        (set_local $0
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+       (i32.load8_u
+        (block (result i32)
+         (set_local $5
+          (get_local $1)
+         )
+         (set_local $1
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+       )
+      )
+      (set_local $2
+       (i32.sub
+        (get_local $2)
+        (i32.const 2)
+       )
+      )
+      (block $break|4
+       (loop $continue|4
+        (if
+         (i32.ge_u
+          (get_local $2)
+          (i32.const 18)
+         )
+         (block
+          (block
+           (set_local $4
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 2)
+             )
+            )
+           )
+           (i32.store
+            (get_local $0)
+            (i32.or
+             (i32.shr_u
+              (get_local $3)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $4)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 6)
+             )
+            )
+           )
+           (i32.store
+            (i32.add
+             (get_local $0)
+             (i32.const 4)
+            )
+            (i32.or
+             (i32.shr_u
+              (get_local $4)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $3)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $4
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 10)
+             )
+            )
+           )
+           (i32.store
+            (i32.add
+             (get_local $0)
+             (i32.const 8)
+            )
+            (i32.or
+             (i32.shr_u
+              (get_local $3)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $4)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 14)
+             )
+            )
+           )
+           (i32.store
+            (i32.add
+             (get_local $0)
+             (i32.const 12)
+            )
+            (i32.or
+             (i32.shr_u
+              (get_local $4)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $3)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $1
+            (i32.add
+             (get_local $1)
+             (i32.const 16)
+            )
+           )
+           (set_local $0
+            (i32.add
+             (get_local $0)
+             (i32.const 16)
+            )
+           )
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 16)
+            )
+           )
+          )
+          (br $continue|4)
+         )
+        )
+       )
+      )
+      (br $break|2)
+     )
+    )
+    (block
+     (set_local $3
+      (i32.load
+       (get_local $1)
+      )
+     )
+     (i32.store8
+      (block (result i32)
+       (set_local $5
+        (get_local $0)
+       )
+       (set_local $0
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+      (i32.load8_u
+       (block (result i32)
+        (set_local $5
+         (get_local $1)
+        )
+        (set_local $1
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+      )
+     )
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (block $break|5
+      (loop $continue|5
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 19)
+        )
+        (block
+         (block
+          (set_local $4
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 3)
+            )
+           )
+          )
+          (i32.store
+           (get_local $0)
+           (i32.or
+            (i32.shr_u
+             (get_local $3)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $4)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 7)
+            )
+           )
+          )
+          (i32.store
+           (i32.add
+            (get_local $0)
+            (i32.const 4)
+           )
+           (i32.or
+            (i32.shr_u
+             (get_local $4)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $3)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $4
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 11)
+            )
+           )
+          )
+          (i32.store
+           (i32.add
+            (get_local $0)
+            (i32.const 8)
+           )
+           (i32.or
+            (i32.shr_u
+             (get_local $3)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $4)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 15)
+            )
+           )
+          )
+          (i32.store
+           (i32.add
+            (get_local $0)
+            (i32.const 12)
+           )
+           (i32.or
+            (i32.shr_u
+             (get_local $4)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $3)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $1
+           (i32.add
+            (get_local $1)
+            (i32.const 16)
+           )
+          )
+          (set_local $0
+           (i32.add
+            (get_local $0)
+            (i32.const 16)
+           )
+          )
+          (set_local $2
+           (i32.sub
+            (get_local $2)
+            (i32.const 16)
+           )
+          )
+         )
+         (br $continue|5)
+        )
+       )
+      )
+     )
+     (br $break|2)
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 16)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 8)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 4)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 2)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 1)
+   )
+   (i32.store8
+    (block (result i32)
+     (set_local $5
+      (get_local $0)
+     )
+     (set_local $0
+      (i32.add
+       (get_local $5)
+       (i32.const 1)
+      )
+     )
+     (get_local $5)
+    )
+    (i32.load8_u
+     (block (result i32)
+      (set_local $5
+       (get_local $1)
+      )
+      (set_local $1
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/memory/memmove (; 6 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return)
+  )
+  (if
+   (if (result i32)
+    (tee_local $3
+     (i32.le_u
+      (i32.add
+       (get_local $1)
+       (get_local $2)
+      )
+      (get_local $0)
+     )
+    )
+    (get_local $3)
+    (i32.le_u
+     (i32.add
+      (get_local $0)
+      (get_local $2)
+     )
+     (get_local $1)
+    )
+   )
+   (block
+    (call $~lib/internal/memory/memcpy
+     (get_local $0)
+     (get_local $1)
+     (get_local $2)
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.lt_u
+    (get_local $0)
+    (get_local $1)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (block $break|0
+       (loop $continue|0
+        (if
+         (i32.and
+          (get_local $0)
+          (i32.const 7)
+         )
+         (block
+          (block
+           (if
+            (i32.eqz
+             (get_local $2)
+            )
+            (return)
+           )
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 1)
+            )
+           )
+           (i32.store8
+            (block (result i32)
+             (set_local $3
+              (get_local $0)
+             )
+             (set_local $0
+              (i32.add
+               (get_local $3)
+               (i32.const 1)
+              )
+             )
+             (get_local $3)
+            )
+            (i32.load8_u
+             (block (result i32)
+              (set_local $3
+               (get_local $1)
+              )
+              (set_local $1
+               (i32.add
+                (get_local $3)
+                (i32.const 1)
+               )
+              )
+              (get_local $3)
+             )
+            )
+           )
+          )
+          (br $continue|0)
+         )
+        )
+       )
+      )
+      (block $break|1
+       (loop $continue|1
+        (if
+         (i32.ge_u
+          (get_local $2)
+          (i32.const 8)
+         )
+         (block
+          (block
+           (i64.store
+            (get_local $0)
+            (i64.load
+             (get_local $1)
+            )
+           )
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 8)
+            )
+           )
+           (set_local $0
+            (i32.add
+             (get_local $0)
+             (i32.const 8)
+            )
+           )
+           (set_local $1
+            (i32.add
+             (get_local $1)
+             (i32.const 8)
+            )
+           )
+          )
+          (br $continue|1)
+         )
+        )
+       )
+      )
+     )
+    )
+    (block $break|2
+     (loop $continue|2
+      (if
+       (get_local $2)
+       (block
+        (block
+         (i32.store8
+          (block (result i32)
+           (set_local $3
+            (get_local $0)
+           )
+           (set_local $0
+            (i32.add
+             (get_local $3)
+             (i32.const 1)
+            )
+           )
+           (get_local $3)
+          )
+          (i32.load8_u
+           (block (result i32)
+            (set_local $3
+             (get_local $1)
+            )
+            (set_local $1
+             (i32.add
+              (get_local $3)
+              (i32.const 1)
+             )
+            )
+            (get_local $3)
+           )
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+        )
+        (br $continue|2)
+       )
+      )
+     )
+    )
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (block $break|3
+       (loop $continue|3
+        (if
+         (i32.and
+          (i32.add
+           (get_local $0)
+           (get_local $2)
+          )
+          (i32.const 7)
+         )
+         (block
+          (block
+           (if
+            (i32.eqz
+             (get_local $2)
+            )
+            (return)
+           )
+           (i32.store8
+            (i32.add
+             (get_local $0)
+             (tee_local $2
+              (i32.sub
+               (get_local $2)
+               (i32.const 1)
+              )
+             )
+            )
+            (i32.load8_u
+             (i32.add
+              (get_local $1)
+              (get_local $2)
+             )
+            )
+           )
+          )
+          (br $continue|3)
+         )
+        )
+       )
+      )
+      (block $break|4
+       (loop $continue|4
+        (if
+         (i32.ge_u
+          (get_local $2)
+          (i32.const 8)
+         )
+         (block
+          (block
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 8)
+            )
+           )
+           (i64.store
+            (i32.add
+             (get_local $0)
+             (get_local $2)
+            )
+            (i64.load
+             (i32.add
+              (get_local $1)
+              (get_local $2)
+             )
+            )
+           )
+          )
+          (br $continue|4)
+         )
+        )
+       )
+      )
+     )
+    )
+    (block $break|5
+     (loop $continue|5
+      (if
+       (get_local $2)
+       (block
+        (i32.store8
+         (i32.add
+          (get_local $0)
+          (tee_local $2
+           (i32.sub
+            (get_local $2)
+            (i32.const 1)
+           )
+          )
+         )
+         (i32.load8_u
+          (i32.add
+           (get_local $1)
+           (get_local $2)
+          )
+         )
+        )
+        (br $continue|5)
+       )
+      )
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/string/copyUnsafe (; 7 ;) (type $iiiiiv) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (block $~lib/memory/memory.copy|inlined.0
+   (set_local $5
+    (i32.add
+     (i32.add
+      (get_local $0)
+      (i32.shl
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_global $~lib/internal/string/HEADER_SIZE)
+    )
+   )
+   (set_local $6
+    (i32.add
+     (i32.add
+      (get_local $2)
+      (i32.shl
+       (get_local $3)
+       (i32.const 1)
+      )
+     )
+     (get_global $~lib/internal/string/HEADER_SIZE)
+    )
+   )
+   (set_local $7
+    (i32.shl
+     (get_local $4)
+     (i32.const 1)
+    )
+   )
+   (call $~lib/internal/memory/memmove
+    (get_local $5)
+    (get_local $6)
+    (get_local $7)
+   )
+  )
+ )
+ (func $~lib/string/String#concat (; 8 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (i32.eqz
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 168)
+     (i32.const 131)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 0)
+   )
+   (set_local $1
+    (i32.const 272)
+   )
+  )
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $1)
+   )
+  )
+  (set_local $4
+   (i32.add
+    (get_local $2)
+    (get_local $3)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $4)
+    (i32.const 0)
+   )
+   (return
+    (i32.const 24)
+   )
+  )
+  (set_local $5
+   (call $~lib/internal/string/allocateUnsafe
+    (get_local $4)
+   )
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (get_local $5)
+   (i32.const 0)
+   (get_local $0)
+   (i32.const 0)
+   (get_local $2)
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (get_local $5)
+   (get_local $2)
+   (get_local $1)
+   (i32.const 0)
+   (get_local $3)
+  )
+  (get_local $5)
+ )
+ (func $~lib/string/String.__concat (; 9 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (set_local $0
+    (i32.const 272)
+   )
+  )
+  (call $~lib/string/String#concat
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $~lib/memory/memory.allocate (; 10 ;) (type $ii) (param $0 i32) (result i32)
+  (return
+   (call $~lib/allocator/arena/__memory_allocate
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/error/Error#constructor (; 11 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (i32.store
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $2
+        (block (result i32)
+         (i32.store
+          (i32.sub
+           (tee_local $3
+            (i32.add
+             (call $~lib/memory/memory.allocate
+              (i32.const 16)
+             )
+             (i32.const 8)
+            )
+           )
+           (i32.const 4)
+          )
+          (i32.const 3)
+         )
+         (get_local $3)
+        )
+       )
+       (i32.store
+        (get_local $2)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $2)
+        (i32.const 24)
+       )
+       (get_local $2)
+      )
+     )
+    )
+   )
+   (get_local $1)
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/arraybuffer/computeSize (; 12 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.shl
+   (i32.const 1)
+   (i32.sub
+    (i32.const 32)
+    (i32.clz
+     (i32.sub
+      (i32.add
+       (get_local $0)
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+      (i32.const 1)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/arraybuffer/allocateUnsafe (; 13 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (i32.le_u
+     (get_local $0)
+     (get_global $~lib/internal/arraybuffer/MAX_BLENGTH)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 464)
+     (i32.const 23)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $1
+   (block $~lib/memory/memory.allocate|inlined.1 (result i32)
+    (set_local $2
+     (call $~lib/internal/arraybuffer/computeSize
+      (get_local $0)
+     )
+    )
+    (br $~lib/memory/memory.allocate|inlined.1
+     (call $~lib/allocator/arena/__memory_allocate
+      (get_local $2)
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/memory/memset (; 14 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i64)
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return)
+  )
+  (i32.store8
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 1)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 2)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 1)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 2)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 2)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 3)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 6)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 3)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 4)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (set_local $3
+   (i32.and
+    (i32.sub
+     (i32.const 0)
+     (get_local $0)
+    )
+    (i32.const 3)
+   )
+  )
+  (set_local $0
+   (i32.add
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.sub
+    (get_local $2)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.and
+    (get_local $2)
+    (i32.const -4)
+   )
+  )
+  (set_local $4
+   (i32.mul
+    (i32.div_u
+     (i32.const -1)
+     (i32.const 255)
+    )
+    (i32.and
+     (get_local $1)
+     (i32.const 255)
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 4)
+   )
+   (get_local $4)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 4)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 8)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 12)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 8)
+   )
+   (get_local $4)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 24)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 12)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 16)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 20)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 24)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 28)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 24)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 20)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 16)
+   )
+   (get_local $4)
+  )
+  (set_local $3
+   (i32.add
+    (i32.const 24)
+    (i32.and
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (set_local $0
+   (i32.add
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.sub
+    (get_local $2)
+    (get_local $3)
+   )
+  )
+  (set_local $5
+   (i64.or
+    (i64.extend_u/i32
+     (get_local $4)
+    )
+    (i64.shl
+     (i64.extend_u/i32
+      (get_local $4)
+     )
+     (i64.const 32)
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.ge_u
+      (get_local $2)
+      (i32.const 32)
+     )
+     (block
+      (block
+       (i64.store
+        (get_local $0)
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 16)
+        )
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 24)
+        )
+        (get_local $5)
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 32)
+        )
+       )
+       (set_local $0
+        (i32.add
+         (get_local $0)
+         (i32.const 32)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/array/Array<i32>#constructor (; 15 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (i32.gt_u
+    (get_local $1)
+    (i32.const 268435454)
+   )
+   (block
+    (set_global $~exception
+     (call $~lib/error/Error#constructor
+      (i32.const 0)
+      (i32.const 384)
+     )
+    )
+    (return
+     (i32.const 0)
+    )
+   )
+  )
+  (set_local $2
+   (i32.shl
+    (get_local $1)
+    (i32.const 2)
+   )
+  )
+  (set_local $3
+   (call $~lib/internal/arraybuffer/allocateUnsafe
+    (get_local $2)
+   )
+  )
+  (i32.store
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $4
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.store
+        (get_local $4)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $4)
+        (i32.const 0)
+       )
+       (get_local $4)
+      )
+     )
+    )
+   )
+   (get_local $3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (block $~lib/memory/memory.fill|inlined.0
+   (set_local $4
+    (i32.add
+     (get_local $3)
+     (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+    )
+   )
+   (set_local $5
+    (i32.const 0)
+   )
+   (call $~lib/internal/memory/memset
+    (get_local $4)
+    (get_local $5)
+    (get_local $2)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/regexp-parser/Parser#constructor (; 16 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (i32.store
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $2
+        (call $~lib/memory/memory.allocate
+         (i32.const 32)
+        )
+       )
+       (i32.store
+        (get_local $2)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $2)
+        (i32.const 0)
+       )
+       (i32.store offset=8
+        (get_local $2)
+        (i32.const 0)
+       )
+       (i32.store offset=12
+        (get_local $2)
+        (i32.const 0)
+       )
+       (i32.store offset=16
+        (get_local $2)
+        (i32.const 0)
+       )
+       (i32.store offset=20
+        (get_local $2)
+        (i32.const 0)
+       )
+       (i32.store offset=24
+        (get_local $2)
+        (i32.const 0)
+       )
+       (i32.store offset=28
+        (get_local $2)
+        (i32.const 0)
+       )
+       (get_local $2)
+      )
+     )
+    )
+   )
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (i32.load
+    (get_local $1)
+   )
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (block (result i32)
+    (set_local $2
+     (call $~lib/array/Array<i32>#constructor
+      (i32.const 0)
+      (i32.const 0)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $2)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/arraybuffer/reallocateUnsafe (; 17 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.gt_s
+    (get_local $1)
+    (get_local $2)
+   )
+   (block
+    (if
+     (i32.eqz
+      (i32.le_s
+       (get_local $1)
+       (get_global $~lib/internal/arraybuffer/MAX_BLENGTH)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 464)
+       (i32.const 37)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.le_s
+      (get_local $1)
+      (i32.sub
+       (call $~lib/internal/arraybuffer/computeSize
+        (get_local $2)
+       )
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (get_local $1)
+      )
+      (block $~lib/memory/memory.fill|inlined.1
+       (set_local $3
+        (i32.add
+         (i32.add
+          (get_local $0)
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (get_local $2)
+        )
+       )
+       (set_local $4
+        (i32.const 0)
+       )
+       (set_local $5
+        (i32.sub
+         (get_local $1)
+         (get_local $2)
+        )
+       )
+       (call $~lib/internal/memory/memset
+        (get_local $3)
+        (get_local $4)
+        (get_local $5)
+       )
+      )
+     )
+     (block
+      (set_local $5
+       (call $~lib/internal/arraybuffer/allocateUnsafe
+        (get_local $1)
+       )
+      )
+      (block $~lib/memory/memory.copy|inlined.1
+       (set_local $4
+        (i32.add
+         (get_local $5)
+         (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+        )
+       )
+       (set_local $3
+        (i32.add
+         (get_local $0)
+         (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+        )
+       )
+       (call $~lib/internal/memory/memmove
+        (get_local $4)
+        (get_local $3)
+        (get_local $2)
+       )
+      )
+      (block $~lib/memory/memory.fill|inlined.2
+       (set_local $3
+        (i32.add
+         (i32.add
+          (get_local $5)
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (get_local $2)
+        )
+       )
+       (set_local $4
+        (i32.const 0)
+       )
+       (set_local $6
+        (i32.sub
+         (get_local $1)
+         (get_local $2)
+        )
+       )
+       (call $~lib/internal/memory/memset
+        (get_local $3)
+        (get_local $4)
+        (get_local $6)
+       )
+      )
+      (return
+       (get_local $5)
+      )
+     )
+    )
+   )
+   (if
+    (i32.lt_s
+     (get_local $1)
+     (get_local $2)
+    )
+    (block
+     (if
+      (i32.eqz
+       (i32.ge_s
+        (get_local $1)
+        (i32.const 0)
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 464)
+        (i32.const 61)
+        (i32.const 4)
+       )
+       (unreachable)
+      )
+     )
+     (i32.store
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/array/Array<i32>#push (; 18 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.shr_u
+    (i32.load
+     (get_local $3)
+    )
+    (i32.const 2)
+   )
+  )
+  (set_local $5
+   (i32.add
+    (get_local $2)
+    (i32.const 1)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $2)
+    (get_local $4)
+   )
+   (block
+    (if
+     (i32.ge_u
+      (get_local $2)
+      (i32.const 268435454)
+     )
+     (block
+      (set_global $~exception
+       (call $~lib/error/Error#constructor
+        (i32.const 0)
+        (i32.const 384)
+       )
+      )
+      (return
+       (i32.const 0)
+      )
+     )
+    )
+    (set_local $3
+     (call $~lib/internal/arraybuffer/reallocateUnsafe
+      (get_local $3)
+      (i32.shl
+       (get_local $5)
+       (i32.const 2)
+      )
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (get_local $3)
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $5)
+  )
+  (block $~lib/internal/arraybuffer/storeUnsafe<i32,i32>|inlined.0
+   (i32.store offset=8
+    (i32.add
+     (get_local $3)
+     (i32.shl
+      (get_local $2)
+      (i32.const 2)
+     )
+    )
+    (get_local $1)
+   )
+  )
+  (get_local $5)
+ )
+ (func $~lib/internal/regexp-parser/Parser#error (; 19 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (if
+   (i32.eq
+    (i32.load offset=20
+     (get_local $0)
+    )
+    (i32.const 0)
+   )
+   (i32.store offset=20
+    (get_local $0)
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/internal/regexp-parser/Parser#skip (; 20 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (if
+   (if (result i32)
+    (tee_local $2
+     (i32.lt_s
+      (i32.load offset=4
+       (get_local $0)
+      )
+      (i32.load offset=8
+       (get_local $0)
+      )
+     )
+    )
+    (i32.eq
+     (call $~lib/string/String#charCodeAt
+      (i32.load
+       (get_local $0)
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (get_local $1)
+    )
+    (get_local $2)
+   )
+   (block
+    (i32.store offset=4
+     (get_local $0)
+     (i32.add
+      (i32.load offset=4
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (return
+     (i32.const 1)
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/internal/regexp-parser/Parser#parseDecimal (; 21 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=8
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.const -1)
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (i32.load offset=4
+       (get_local $0)
+      )
+      (get_local $2)
+     )
+     (block
+      (block
+       (set_local $4
+        (call $~lib/string/String#charCodeAt
+         (get_local $1)
+         (i32.load offset=4
+          (get_local $0)
+         )
+        )
+       )
+       (if
+        (if (result i32)
+         (tee_local $5
+          (i32.lt_s
+           (get_local $4)
+           (i32.const 48)
+          )
+         )
+         (get_local $5)
+         (i32.gt_s
+          (get_local $4)
+          (i32.const 57)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $3
+        (i32.sub
+         (i32.add
+          (i32.mul
+           (if (result i32)
+            (i32.lt_s
+             (get_local $3)
+             (i32.const 0)
+            )
+            (i32.const 0)
+            (get_local $3)
+           )
+           (i32.const 10)
+          )
+          (get_local $4)
+         )
+         (i32.const 48)
+        )
+       )
+       (if
+        (i32.gt_s
+         (get_local $3)
+         (i32.const 65535)
+        )
+        (set_local $3
+         (i32.const 65535)
+        )
+       )
+       (i32.store offset=4
+        (get_local $0)
+        (i32.add
+         (i32.load offset=4
+          (get_local $0)
+         )
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (get_local $3)
+ )
+ (func $~lib/internal/regexp-parser/Parser#parseBraces (; 22 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $1
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/internal/regexp-parser/Parser#skip
+     (get_local $0)
+     (i32.const 123)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $2
+   (call $~lib/internal/regexp-parser/Parser#parseDecimal
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.lt_s
+    (get_local $2)
+    (i32.const 0)
+   )
+   (block
+    (i32.store offset=4
+     (get_local $0)
+     (get_local $1)
+    )
+    (return
+     (i32.const 0)
+    )
+   )
+  )
+  (set_local $3
+   (get_local $2)
+  )
+  (if
+   (call $~lib/internal/regexp-parser/Parser#skip
+    (get_local $0)
+    (i32.const 44)
+   )
+   (set_local $3
+    (call $~lib/internal/regexp-parser/Parser#parseDecimal
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/internal/regexp-parser/Parser#skip
+     (get_local $0)
+     (i32.const 125)
+    )
+   )
+   (block
+    (i32.store offset=4
+     (get_local $0)
+     (get_local $1)
+    )
+    (return
+     (i32.const 0)
+    )
+   )
+  )
+  (i32.store offset=24
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.store offset=28
+   (get_local $0)
+   (get_local $3)
+  )
+  (i32.const 1)
+ )
+ (func $~lib/array/Array<i32>#__get (; 23 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if (result i32)
+   (i32.lt_u
+    (get_local $1)
+    (i32.shr_u
+     (i32.load
+      (get_local $2)
+     )
+     (i32.const 2)
+    )
+   )
+   (block $~lib/internal/arraybuffer/loadUnsafe<i32,i32>|inlined.0 (result i32)
+    (i32.load offset=8
+     (i32.add
+      (get_local $2)
+      (i32.shl
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+    )
+   )
+   (unreachable)
+  )
+ )
+ (func $~lib/internal/regexp-parser/pushRanges (; 24 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (block $break|0
+   (block
+    (set_local $2
+     (i32.const 0)
+    )
+    (set_local $3
+     (block $~lib/array/Array<i32>#get:length|inlined.2 (result i32)
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+    )
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $2)
+       (get_local $3)
+      )
+     )
+    )
+    (drop
+     (block (result i32)
+      (set_local $4
+       (call $~lib/array/Array<i32>#push
+        (get_local $0)
+        (call $~lib/array/Array<i32>#__get
+         (get_local $1)
+         (get_local $2)
+        )
+       )
+      )
+      (if
+       (get_global $~exception)
+       (return)
+      )
+      (get_local $4)
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $~lib/internal/regexp-parser/pushComplement (; 25 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $2
+   (i32.const 0)
+  )
+  (block $break|0
+   (block
+    (set_local $3
+     (i32.const 0)
+    )
+    (set_local $4
+     (block $~lib/array/Array<i32>#get:length|inlined.3 (result i32)
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+    )
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $3)
+       (get_local $4)
+      )
+     )
+    )
+    (block
+     (set_local $5
+      (call $~lib/array/Array<i32>#__get
+       (get_local $1)
+       (get_local $3)
+      )
+     )
+     (if
+      (i32.gt_s
+       (get_local $5)
+       (get_local $2)
+      )
+      (block
+       (drop
+        (block (result i32)
+         (set_local $6
+          (call $~lib/array/Array<i32>#push
+           (get_local $0)
+           (get_local $2)
+          )
+         )
+         (if
+          (get_global $~exception)
+          (return)
+         )
+         (get_local $6)
+        )
+       )
+       (drop
+        (block (result i32)
+         (set_local $6
+          (call $~lib/array/Array<i32>#push
+           (get_local $0)
+           (i32.sub
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+         )
+         (if
+          (get_global $~exception)
+          (return)
+         )
+         (get_local $6)
+        )
+       )
+      )
+     )
+     (set_local $2
+      (i32.add
+       (call $~lib/array/Array<i32>#__get
+        (get_local $1)
+        (i32.add
+         (get_local $3)
+         (i32.const 1)
+        )
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (set_local $3
+     (i32.add
+      (get_local $3)
+      (i32.const 2)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (if
+   (i32.le_s
+    (get_local $2)
+    (i32.const 65535)
+   )
+   (block
+    (drop
+     (block (result i32)
+      (set_local $4
+       (call $~lib/array/Array<i32>#push
+        (get_local $0)
+        (get_local $2)
+       )
+      )
+      (if
+       (get_global $~exception)
+       (return)
+      )
+      (get_local $4)
+     )
+    )
+    (drop
+     (block (result i32)
+      (set_local $4
+       (call $~lib/array/Array<i32>#push
+        (get_local $0)
+        (i32.const 65535)
+       )
+      )
+      (if
+       (get_global $~exception)
+       (return)
+      )
+      (get_local $4)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/regexp-parser/Parser#parseClassEscape (; 26 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (block $break|0
+   (block $case5|0
+    (block $case4|0
+     (block $case3|0
+      (block $case2|0
+       (block $case1|0
+        (block $case0|0
+         (set_local $3
+          (get_local $1)
+         )
+         (br_if $case0|0
+          (i32.eq
+           (get_local $3)
+           (i32.const 100)
+          )
+         )
+         (br_if $case1|0
+          (i32.eq
+           (get_local $3)
+           (i32.const 68)
+          )
+         )
+         (br_if $case2|0
+          (i32.eq
+           (get_local $3)
+           (i32.const 119)
+          )
+         )
+         (br_if $case3|0
+          (i32.eq
+           (get_local $3)
+           (i32.const 87)
+          )
+         )
+         (br_if $case4|0
+          (i32.eq
+           (get_local $3)
+           (i32.const 115)
+          )
+         )
+         (br_if $case5|0
+          (i32.eq
+           (get_local $3)
+           (i32.const 83)
+          )
+         )
+         (br $break|0)
+        )
+        (block
+         (call $~lib/internal/regexp-parser/pushRanges
+          (get_local $2)
+          (get_global $~lib/internal/regexp-parser/DIGIT_RANGES)
+         )
+         (if
+          (get_global $~exception)
+          (return
+           (i32.const 0)
+          )
+         )
+         (return
+          (i32.const 1)
+         )
+        )
+       )
+       (block
+        (call $~lib/internal/regexp-parser/pushComplement
+         (get_local $2)
+         (get_global $~lib/internal/regexp-parser/DIGIT_RANGES)
+        )
+        (if
+         (get_global $~exception)
+         (return
+          (i32.const 0)
+         )
+        )
+        (return
+         (i32.const 1)
+        )
+       )
+      )
+      (block
+       (call $~lib/internal/regexp-parser/pushRanges
+        (get_local $2)
+        (get_global $~lib/internal/regexp-parser/WORD_RANGES)
+       )
+       (if
+        (get_global $~exception)
+        (return
+         (i32.const 0)
+        )
+       )
+       (return
+        (i32.const 1)
+       )
+      )
+     )
+     (block
+      (call $~lib/internal/regexp-parser/pushComplement
+       (get_local $2)
+       (get_global $~lib/internal/regexp-parser/WORD_RANGES)
+      )
+      (if
+       (get_global $~exception)
+       (return
+        (i32.const 0)
+       )
+      )
+      (return
+       (i32.const 1)
+      )
+     )
+    )
+    (block
+     (call $~lib/internal/regexp-parser/pushRanges
+      (get_local $2)
+      (get_global $~lib/internal/regexp-parser/SPACE_RANGES)
+     )
+     (if
+      (get_global $~exception)
+      (return
+       (i32.const 0)
+      )
+     )
+     (return
+      (i32.const 1)
+     )
+    )
+   )
+   (block
+    (call $~lib/internal/regexp-parser/pushComplement
+     (get_local $2)
+     (get_global $~lib/internal/regexp-parser/SPACE_RANGES)
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (return
+     (i32.const 1)
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/internal/regexp-parser/Parser#parseHex (; 27 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.gt_s
+    (i32.add
+     (get_local $3)
+     (get_local $1)
+    )
+    (i32.load offset=8
+     (get_local $0)
+    )
+   )
+   (return
+    (i32.const -1)
+   )
+  )
+  (set_local $4
+   (i32.const 0)
+  )
+  (block $break|0
+   (set_local $5
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $5)
+       (get_local $1)
+      )
+     )
+    )
+    (block
+     (set_local $6
+      (call $~lib/string/String#charCodeAt
+       (get_local $2)
+       (i32.add
+        (get_local $3)
+        (get_local $5)
+       )
+      )
+     )
+     (if
+      (if (result i32)
+       (tee_local $7
+        (i32.ge_s
+         (get_local $6)
+         (i32.const 48)
+        )
+       )
+       (i32.le_s
+        (get_local $6)
+        (i32.const 57)
+       )
+       (get_local $7)
+      )
+      (set_local $6
+       (i32.sub
+        (get_local $6)
+        (i32.const 48)
+       )
+      )
+      (if
+       (if (result i32)
+        (tee_local $7
+         (i32.ge_s
+          (get_local $6)
+          (i32.const 65)
+         )
+        )
+        (i32.le_s
+         (get_local $6)
+         (i32.const 70)
+        )
+        (get_local $7)
+       )
+       (set_local $6
+        (i32.sub
+         (get_local $6)
+         (i32.sub
+          (i32.const 65)
+          (i32.const 10)
+         )
+        )
+       )
+       (if
+        (if (result i32)
+         (tee_local $7
+          (i32.ge_s
+           (get_local $6)
+           (i32.const 97)
+          )
+         )
+         (i32.le_s
+          (get_local $6)
+          (i32.const 102)
+         )
+         (get_local $7)
+        )
+        (set_local $6
+         (i32.sub
+          (get_local $6)
+          (i32.sub
+           (i32.const 97)
+           (i32.const 10)
+          )
+         )
+        )
+        (return
+         (i32.const -1)
+        )
+       )
+      )
+     )
+     (set_local $4
+      (i32.or
+       (i32.shl
+        (get_local $4)
+        (i32.const 4)
+       )
+       (get_local $6)
+      )
+     )
+    )
+    (set_local $5
+     (i32.add
+      (get_local $5)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.add
+    (get_local $3)
+    (get_local $1)
+   )
+  )
+  (get_local $4)
+ )
+ (func $~lib/internal/regexp-parser/Parser#parseCharacterEscape (; 28 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (block $case8|0
+    (block $case7|0
+     (block $case6|0
+      (block $case5|0
+       (block $case4|0
+        (block $case3|0
+         (block $case2|0
+          (block $case1|0
+           (block $case0|0
+            (set_local $2
+             (get_local $1)
+            )
+            (br_if $case0|0
+             (i32.eq
+              (get_local $2)
+              (i32.const 110)
+             )
+            )
+            (br_if $case1|0
+             (i32.eq
+              (get_local $2)
+              (i32.const 114)
+             )
+            )
+            (br_if $case2|0
+             (i32.eq
+              (get_local $2)
+              (i32.const 116)
+             )
+            )
+            (br_if $case3|0
+             (i32.eq
+              (get_local $2)
+              (i32.const 118)
+             )
+            )
+            (br_if $case4|0
+             (i32.eq
+              (get_local $2)
+              (i32.const 102)
+             )
+            )
+            (br_if $case5|0
+             (i32.eq
+              (get_local $2)
+              (i32.const 48)
+             )
+            )
+            (br_if $case6|0
+             (i32.eq
+              (get_local $2)
+              (i32.const 99)
+             )
+            )
+            (br_if $case7|0
+             (i32.eq
+              (get_local $2)
+              (i32.const 120)
+             )
+            )
+            (br_if $case8|0
+             (i32.eq
+              (get_local $2)
+              (i32.const 117)
+             )
+            )
+            (br $break|0)
+           )
+           (return
+            (i32.const 10)
+           )
+          )
+          (return
+           (i32.const 13)
+          )
+         )
+         (return
+          (i32.const 9)
+         )
+        )
+        (return
+         (i32.const 11)
+        )
+       )
+       (return
+        (i32.const 12)
+       )
+      )
+      (return
+       (i32.const 0)
+      )
+     )
+     (block
+      (if
+       (i32.lt_s
+        (i32.load offset=4
+         (get_local $0)
+        )
+        (i32.load offset=8
+         (get_local $0)
+        )
+       )
+       (block
+        (set_local $2
+         (call $~lib/string/String#charCodeAt
+          (i32.load
+           (get_local $0)
+          )
+          (i32.load offset=4
+           (get_local $0)
+          )
+         )
+        )
+        (if
+         (if (result i32)
+          (tee_local $3
+           (if (result i32)
+            (tee_local $3
+             (i32.ge_s
+              (get_local $2)
+              (i32.const 97)
+             )
+            )
+            (i32.le_s
+             (get_local $2)
+             (i32.const 122)
+            )
+            (get_local $3)
+           )
+          )
+          (get_local $3)
+          (if (result i32)
+           (tee_local $3
+            (i32.ge_s
+             (get_local $2)
+             (i32.const 65)
+            )
+           )
+           (i32.le_s
+            (get_local $2)
+            (i32.const 90)
+           )
+           (get_local $3)
+          )
+         )
+         (block
+          (i32.store offset=4
+           (get_local $0)
+           (i32.add
+            (i32.load offset=4
+             (get_local $0)
+            )
+            (i32.const 1)
+           )
+          )
+          (return
+           (i32.and
+            (get_local $2)
+            (i32.const 31)
+           )
+          )
+         )
+        )
+       )
+      )
+      (i32.store offset=4
+       (get_local $0)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $0)
+        )
+        (i32.const 1)
+       )
+      )
+      (return
+       (i32.const 92)
+      )
+     )
+    )
+    (block
+     (set_local $2
+      (call $~lib/internal/regexp-parser/Parser#parseHex
+       (get_local $0)
+       (i32.const 2)
+      )
+     )
+     (return
+      (if (result i32)
+       (i32.lt_s
+        (get_local $2)
+        (i32.const 0)
+       )
+       (get_local $1)
+       (get_local $2)
+      )
+     )
+    )
+   )
+   (block
+    (set_local $2
+     (call $~lib/internal/regexp-parser/Parser#parseHex
+      (get_local $0)
+      (i32.const 4)
+     )
+    )
+    (return
+     (if (result i32)
+      (i32.lt_s
+       (get_local $2)
+       (i32.const 0)
+      )
+      (get_local $1)
+      (get_local $2)
+     )
+    )
+   )
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/regexp-parser/Parser#parseClassAtom (; 29 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (call $~lib/string/String#charCodeAt
+    (get_local $2)
+    (block (result i32)
+     (set_local $3
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $3)
+       (i32.const 1)
+      )
+     )
+     (get_local $3)
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (get_local $4)
+    (i32.const 92)
+   )
+   (return
+    (get_local $4)
+   )
+  )
+  (if
+   (i32.ge_s
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.load offset=8
+     (get_local $0)
+    )
+   )
+   (block
+    (call $~lib/internal/regexp-parser/Parser#error
+     (get_local $0)
+     (i32.const 936)
+    )
+    (return
+     (i32.const -1)
+    )
+   )
+  )
+  (set_local $4
+   (call $~lib/string/String#charCodeAt
+    (get_local $2)
+    (block (result i32)
+     (set_local $3
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $3)
+       (i32.const 1)
+      )
+     )
+     (get_local $3)
+    )
+   )
+  )
+  (if
+   (i32.and
+    (block (result i32)
+     (set_local $3
+      (call $~lib/internal/regexp-parser/Parser#parseClassEscape
+       (get_local $0)
+       (get_local $4)
+       (get_local $1)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (return
+       (i32.const 0)
+      )
+     )
+     (get_local $3)
+    )
+    (i32.const 1)
+   )
+   (return
+    (i32.const -1)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $4)
+    (i32.const 98)
+   )
+   (return
+    (i32.const 8)
+   )
+  )
+  (call $~lib/internal/regexp-parser/Parser#parseCharacterEscape
+   (get_local $0)
+   (get_local $4)
+  )
+ )
+ (func $~lib/internal/regexp-parser/Parser#pushClass (; 30 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $3
+   (i32.load offset=12
+    (get_local $0)
+   )
+  )
+  (drop
+   (block (result i32)
+    (set_local $4
+     (call $~lib/array/Array<i32>#push
+      (get_local $3)
+      (if (result i32)
+       (i32.and
+        (get_local $2)
+        (i32.const 1)
+       )
+       (i32.const 4)
+       (i32.const 3)
+      )
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return)
+    )
+    (get_local $4)
+   )
+  )
+  (drop
+   (block (result i32)
+    (set_local $4
+     (call $~lib/array/Array<i32>#push
+      (get_local $3)
+      (i32.shr_s
+       (block $~lib/array/Array<i32>#get:length|inlined.4 (result i32)
+        (i32.load offset=4
+         (get_local $1)
+        )
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return)
+    )
+    (get_local $4)
+   )
+  )
+  (block $break|0
+   (block
+    (set_local $4
+     (i32.const 0)
+    )
+    (set_local $5
+     (block $~lib/array/Array<i32>#get:length|inlined.5 (result i32)
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+    )
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $4)
+       (get_local $5)
+      )
+     )
+    )
+    (drop
+     (block (result i32)
+      (set_local $6
+       (call $~lib/array/Array<i32>#push
+        (get_local $3)
+        (call $~lib/array/Array<i32>#__get
+         (get_local $1)
+         (get_local $4)
+        )
+       )
+      )
+      (if
+       (get_global $~exception)
+       (return)
+      )
+      (get_local $6)
+     )
+    )
+    (set_local $4
+     (i32.add
+      (get_local $4)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $~lib/internal/regexp-parser/Parser#parseClass (; 31 ;) (type $iv) (param $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=8
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (call $~lib/internal/regexp-parser/Parser#skip
+    (get_local $0)
+    (i32.const 94)
+   )
+  )
+  (set_local $5
+   (block (result i32)
+    (set_local $4
+     (call $~lib/array/Array<i32>#constructor
+      (i32.const 0)
+      (i32.const 0)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return)
+    )
+    (get_local $4)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.const 1)
+     (block
+      (block
+       (if
+        (i32.ge_s
+         (i32.load offset=4
+          (get_local $0)
+         )
+         (get_local $2)
+        )
+        (block
+         (call $~lib/internal/regexp-parser/Parser#error
+          (get_local $0)
+          (i32.const 872)
+         )
+         (return)
+        )
+       )
+       (if
+        (call $~lib/internal/regexp-parser/Parser#skip
+         (get_local $0)
+         (i32.const 93)
+        )
+        (br $break|0)
+       )
+       (set_local $4
+        (block (result i32)
+         (set_local $4
+          (call $~lib/internal/regexp-parser/Parser#parseClassAtom
+           (get_local $0)
+           (get_local $5)
+          )
+         )
+         (if
+          (get_global $~exception)
+          (return)
+         )
+         (get_local $4)
+        )
+       )
+       (if
+        (i32.ne
+         (i32.load offset=20
+          (get_local $0)
+         )
+         (i32.const 0)
+        )
+        (return)
+       )
+       (if
+        (if (result i32)
+         (tee_local $6
+          (if (result i32)
+           (tee_local $6
+            (i32.lt_s
+             (i32.add
+              (i32.load offset=4
+               (get_local $0)
+              )
+              (i32.const 1)
+             )
+             (get_local $2)
+            )
+           )
+           (i32.eq
+            (call $~lib/string/String#charCodeAt
+             (get_local $1)
+             (i32.load offset=4
+              (get_local $0)
+             )
+            )
+            (i32.const 45)
+           )
+           (get_local $6)
+          )
+         )
+         (i32.ne
+          (call $~lib/string/String#charCodeAt
+           (get_local $1)
+           (i32.add
+            (i32.load offset=4
+             (get_local $0)
+            )
+            (i32.const 1)
+           )
+          )
+          (i32.const 93)
+         )
+         (get_local $6)
+        )
+        (block
+         (i32.store offset=4
+          (get_local $0)
+          (i32.add
+           (i32.load offset=4
+            (get_local $0)
+           )
+           (i32.const 1)
+          )
+         )
+         (set_local $6
+          (block (result i32)
+           (set_local $6
+            (call $~lib/internal/regexp-parser/Parser#parseClassAtom
+             (get_local $0)
+             (get_local $5)
+            )
+           )
+           (if
+            (get_global $~exception)
+            (return)
+           )
+           (get_local $6)
+          )
+         )
+         (if
+          (i32.ne
+           (i32.load offset=20
+            (get_local $0)
+           )
+           (i32.const 0)
+          )
+          (return)
+         )
+         (if
+          (if (result i32)
+           (tee_local $7
+            (i32.lt_s
+             (get_local $4)
+             (i32.const 0)
+            )
+           )
+           (get_local $7)
+           (i32.lt_s
+            (get_local $6)
+            (i32.const 0)
+           )
+          )
+          (block
+           (call $~lib/internal/regexp-parser/Parser#error
+            (get_local $0)
+            (i32.const 1216)
+           )
+           (return)
+          )
+         )
+         (if
+          (i32.gt_s
+           (get_local $4)
+           (get_local $6)
+          )
+          (block
+           (call $~lib/internal/regexp-parser/Parser#error
+            (get_local $0)
+            (i32.const 1272)
+           )
+           (return)
+          )
+         )
+         (drop
+          (block (result i32)
+           (set_local $7
+            (call $~lib/array/Array<i32>#push
+             (get_local $5)
+             (get_local $4)
+            )
+           )
+           (if
+            (get_global $~exception)
+            (return)
+           )
+           (get_local $7)
+          )
+         )
+         (drop
+          (block (result i32)
+           (set_local $7
+            (call $~lib/array/Array<i32>#push
+             (get_local $5)
+             (get_local $6)
+            )
+           )
+           (if
+            (get_global $~exception)
+            (return)
+           )
+           (get_local $7)
+          )
+         )
+        )
+        (if
+         (i32.ge_s
+          (get_local $4)
+          (i32.const 0)
+         )
+         (block
+          (drop
+           (block (result i32)
+            (set_local $6
+             (call $~lib/array/Array<i32>#push
+              (get_local $5)
+              (get_local $4)
+             )
+            )
+            (if
+             (get_global $~exception)
+             (return)
+            )
+            (get_local $6)
+           )
+          )
+          (drop
+           (block (result i32)
+            (set_local $6
+             (call $~lib/array/Array<i32>#push
+              (get_local $5)
+              (get_local $4)
+             )
+            )
+            (if
+             (get_global $~exception)
+             (return)
+            )
+            (get_local $6)
+           )
+          )
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (call $~lib/internal/regexp-parser/Parser#pushClass
+   (get_local $0)
+   (get_local $5)
+   (get_local $3)
+  )
+  (if
+   (get_global $~exception)
+   (return)
+  )
+ )
+ (func $~lib/internal/regexp-parser/Parser#parseAtom (; 32 ;) (type $iv) (param $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=12
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (call $~lib/string/String#charCodeAt
+    (get_local $1)
+    (block (result i32)
+     (set_local $3
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $3)
+       (i32.const 1)
+      )
+     )
+     (get_local $3)
+    )
+   )
+  )
+  (block $break|0
+   (block $case4|0
+    (block $case3|0
+     (block $case2|0
+      (block $case1|0
+       (block $case0|0
+        (set_local $3
+         (get_local $4)
+        )
+        (br_if $case0|0
+         (i32.eq
+          (get_local $3)
+          (i32.const 46)
+         )
+        )
+        (br_if $case1|0
+         (i32.eq
+          (get_local $3)
+          (i32.const 40)
+         )
+        )
+        (br_if $case2|0
+         (i32.eq
+          (get_local $3)
+          (i32.const 91)
+         )
+        )
+        (br_if $case3|0
+         (i32.eq
+          (get_local $3)
+          (i32.const 92)
+         )
+        )
+        (br $case4|0)
+       )
+       (block
+        (drop
+         (block (result i32)
+          (set_local $3
+           (call $~lib/array/Array<i32>#push
+            (get_local $2)
+            (i32.const 2)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (return)
+          )
+          (get_local $3)
+         )
+        )
+        (br $break|0)
+       )
+      )
+      (block
+       (set_local $3
+        (i32.const 0)
+       )
+       (if
+        (call $~lib/internal/regexp-parser/Parser#skip
+         (get_local $0)
+         (i32.const 63)
+        )
+        (block
+         (if
+          (if (result i32)
+           (tee_local $5
+            (call $~lib/internal/regexp-parser/Parser#skip
+             (get_local $0)
+             (i32.const 61)
+            )
+           )
+           (get_local $5)
+           (call $~lib/internal/regexp-parser/Parser#skip
+            (get_local $0)
+            (i32.const 33)
+           )
+          )
+          (block
+           (call $~lib/internal/regexp-parser/Parser#error
+            (get_local $0)
+            (i32.const 632)
+           )
+           (return)
+          )
+         )
+         (if
+          (if (result i32)
+           (tee_local $5
+            (call $~lib/internal/regexp-parser/Parser#skip
+             (get_local $0)
+             (i32.const 60)
+            )
+           )
+           (if (result i32)
+            (tee_local $5
+             (call $~lib/internal/regexp-parser/Parser#skip
+              (get_local $0)
+              (i32.const 61)
+             )
+            )
+            (get_local $5)
+            (call $~lib/internal/regexp-parser/Parser#skip
+             (get_local $0)
+             (i32.const 33)
+            )
+           )
+           (get_local $5)
+          )
+          (block
+           (call $~lib/internal/regexp-parser/Parser#error
+            (get_local $0)
+            (i32.const 712)
+           )
+           (return)
+          )
+         )
+         (if
+          (i32.eqz
+           (call $~lib/internal/regexp-parser/Parser#skip
+            (get_local $0)
+            (i32.const 58)
+           )
+          )
+          (block
+           (call $~lib/internal/regexp-parser/Parser#error
+            (get_local $0)
+            (i32.const 800)
+           )
+           (return)
+          )
+         )
+        )
+        (block
+         (set_local $3
+          (block (result i32)
+           (set_local $5
+            (i32.add
+             (i32.load offset=16
+              (get_local $0)
+             )
+             (i32.const 1)
+            )
+           )
+           (i32.store offset=16
+            (get_local $0)
+            (get_local $5)
+           )
+           (get_local $5)
+          )
+         )
+         (drop
+          (block (result i32)
+           (set_local $5
+            (call $~lib/array/Array<i32>#push
+             (get_local $2)
+             (i32.const 7)
+            )
+           )
+           (if
+            (get_global $~exception)
+            (return)
+           )
+           (get_local $5)
+          )
+         )
+         (drop
+          (block (result i32)
+           (set_local $5
+            (call $~lib/array/Array<i32>#push
+             (get_local $2)
+             (i32.shl
+              (get_local $3)
+              (i32.const 1)
+             )
+            )
+           )
+           (if
+            (get_global $~exception)
+            (return)
+           )
+           (get_local $5)
+          )
+         )
+        )
+       )
+       (call $~lib/internal/regexp-parser/Parser#parseDisjunction
+        (get_local $0)
+       )
+       (if
+        (get_global $~exception)
+        (return)
+       )
+       (if
+        (i32.ne
+         (i32.load offset=20
+          (get_local $0)
+         )
+         (i32.const 0)
+        )
+        (return)
+       )
+       (if
+        (i32.eqz
+         (call $~lib/internal/regexp-parser/Parser#skip
+          (get_local $0)
+          (i32.const 41)
+         )
+        )
+        (block
+         (call $~lib/internal/regexp-parser/Parser#error
+          (get_local $0)
+          (i32.const 832)
+         )
+         (return)
+        )
+       )
+       (if
+        (get_local $3)
+        (block
+         (drop
+          (block (result i32)
+           (set_local $5
+            (call $~lib/array/Array<i32>#push
+             (get_local $2)
+             (i32.const 7)
+            )
+           )
+           (if
+            (get_global $~exception)
+            (return)
+           )
+           (get_local $5)
+          )
+         )
+         (drop
+          (block (result i32)
+           (set_local $5
+            (call $~lib/array/Array<i32>#push
+             (get_local $2)
+             (i32.add
+              (i32.shl
+               (get_local $3)
+               (i32.const 1)
+              )
+              (i32.const 1)
+             )
+            )
+           )
+           (if
+            (get_global $~exception)
+            (return)
+           )
+           (get_local $5)
+          )
+         )
+        )
+       )
+       (br $break|0)
+      )
+     )
+     (block
+      (call $~lib/internal/regexp-parser/Parser#parseClass
+       (get_local $0)
+      )
+      (if
+       (get_global $~exception)
+       (return)
+      )
+      (br $break|0)
+     )
+    )
+    (block
+     (if
+      (i32.ge_s
+       (i32.load offset=4
+        (get_local $0)
+       )
+       (i32.load offset=8
+        (get_local $0)
+       )
+      )
+      (block
+       (call $~lib/internal/regexp-parser/Parser#error
+        (get_local $0)
+        (i32.const 936)
+       )
+       (return)
+      )
+     )
+     (set_local $4
+      (call $~lib/string/String#charCodeAt
+       (get_local $1)
+       (block (result i32)
+        (set_local $3
+         (i32.load offset=4
+          (get_local $0)
+         )
+        )
+        (i32.store offset=4
+         (get_local $0)
+         (i32.add
+          (get_local $3)
+          (i32.const 1)
+         )
+        )
+        (get_local $3)
+       )
+      )
+     )
+     (set_local $3
+      (block (result i32)
+       (set_local $3
+        (call $~lib/array/Array<i32>#constructor
+         (i32.const 0)
+         (i32.const 0)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (return)
+       )
+       (get_local $3)
+      )
+     )
+     (if
+      (i32.and
+       (block (result i32)
+        (set_local $5
+         (call $~lib/internal/regexp-parser/Parser#parseClassEscape
+          (get_local $0)
+          (get_local $4)
+          (get_local $3)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (return)
+        )
+        (get_local $5)
+       )
+       (i32.const 1)
+      )
+      (block
+       (call $~lib/internal/regexp-parser/Parser#pushClass
+        (get_local $0)
+        (get_local $3)
+        (i32.const 0)
+       )
+       (if
+        (get_global $~exception)
+        (return)
+       )
+      )
+      (if
+       (if (result i32)
+        (tee_local $5
+         (i32.ge_s
+          (get_local $4)
+          (i32.const 49)
+         )
+        )
+        (i32.le_s
+         (get_local $4)
+         (i32.const 57)
+        )
+        (get_local $5)
+       )
+       (call $~lib/internal/regexp-parser/Parser#error
+        (get_local $0)
+        (i32.const 1352)
+       )
+       (block
+        (drop
+         (block (result i32)
+          (set_local $5
+           (call $~lib/array/Array<i32>#push
+            (get_local $2)
+            (i32.const 1)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (return)
+          )
+          (get_local $5)
+         )
+        )
+        (drop
+         (block (result i32)
+          (set_local $5
+           (call $~lib/array/Array<i32>#push
+            (get_local $2)
+            (call $~lib/internal/regexp-parser/Parser#parseCharacterEscape
+             (get_local $0)
+             (get_local $4)
+            )
+           )
+          )
+          (if
+           (get_global $~exception)
+           (return)
+          )
+          (get_local $5)
+         )
+        )
+       )
+      )
+     )
+     (br $break|0)
+    )
+   )
+   (block
+    (drop
+     (block (result i32)
+      (set_local $3
+       (call $~lib/array/Array<i32>#push
+        (get_local $2)
+        (i32.const 1)
+       )
+      )
+      (if
+       (get_global $~exception)
+       (return)
+      )
+      (get_local $3)
+     )
+    )
+    (drop
+     (block (result i32)
+      (set_local $3
+       (call $~lib/array/Array<i32>#push
+        (get_local $2)
+        (get_local $4)
+       )
+      )
+      (if
+       (get_global $~exception)
+       (return)
+      )
+      (get_local $3)
+     )
+    )
+    (br $break|0)
+   )
+  )
+ )
+ (func $~lib/array/Array<i32>#slice (; 33 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.lt_s
+    (get_local $1)
+    (i32.const 0)
+   )
+   (set_local $1
+    (select
+     (tee_local $4
+      (i32.add
+       (get_local $3)
+       (get_local $1)
+      )
+     )
+     (tee_local $5
+      (i32.const 0)
+     )
+     (i32.gt_s
+      (get_local $4)
+      (get_local $5)
+     )
+    )
+   )
+   (if
+    (i32.gt_s
+     (get_local $1)
+     (get_local $3)
+    )
+    (set_local $1
+     (get_local $3)
+    )
+   )
+  )
+  (if
+   (i32.lt_s
+    (get_local $2)
+    (i32.const 0)
+   )
+   (set_local $2
+    (i32.add
+     (get_local $3)
+     (get_local $2)
+    )
+   )
+   (if
+    (i32.gt_s
+     (get_local $2)
+     (get_local $3)
+    )
+    (set_local $2
+     (get_local $3)
+    )
+   )
+  )
+  (if
+   (i32.lt_s
+    (get_local $2)
+    (get_local $1)
+   )
+   (set_local $2
+    (get_local $1)
+   )
+  )
+  (set_local $6
+   (i32.sub
+    (get_local $2)
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.ge_s
+     (get_local $6)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 432)
+     (i32.const 407)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $7
+   (block (result i32)
+    (set_local $4
+     (call $~lib/array/Array<i32>#constructor
+      (i32.const 0)
+      (get_local $6)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $4)
+   )
+  )
+  (if
+   (get_local $6)
+   (block $~lib/memory/memory.copy|inlined.2
+    (set_local $4
+     (i32.add
+      (i32.load
+       (get_local $7)
+      )
+      (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+     )
+    )
+    (set_local $5
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $0)
+       )
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+      (i32.shl
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+    )
+    (set_local $8
+     (i32.shl
+      (get_local $6)
+      (i32.const 2)
+     )
+    )
+    (call $~lib/internal/memory/memmove
+     (get_local $4)
+     (get_local $5)
+     (get_local $8)
+    )
+   )
+  )
+  (get_local $7)
+ )
+ (func $~lib/array/Array<i32>#slice|trampoline (; 34 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (block $2of2
+   (block $1of2
+    (block $0of2
+     (block $outOfRange
+      (br_table $0of2 $1of2 $2of2 $outOfRange
+       (get_global $~argc)
+      )
+     )
+     (unreachable)
+    )
+    (set_local $1
+     (i32.const 0)
+    )
+   )
+   (set_local $2
+    (get_global $~lib/builtins/i32.MAX_VALUE)
+   )
+  )
+  (call $~lib/array/Array<i32>#slice
+   (get_local $0)
+   (get_local $1)
+   (get_local $2)
+  )
+ )
+ (func $~lib/array/Array<i32>#set:length (; 35 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.shr_u
+    (i32.load
+     (get_local $2)
+    )
+    (i32.const 2)
+   )
+  )
+  (if
+   (i32.gt_u
+    (get_local $1)
+    (get_local $3)
+   )
+   (block
+    (if
+     (i32.gt_u
+      (get_local $1)
+      (i32.const 268435454)
+     )
+     (block
+      (set_global $~exception
+       (call $~lib/error/Error#constructor
+        (i32.const 0)
+        (i32.const 384)
+       )
+      )
+      (return)
+     )
+    )
+    (set_local $2
+     (call $~lib/internal/arraybuffer/reallocateUnsafe
+      (get_local $2)
+      (i32.shl
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (get_local $2)
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $~lib/internal/regexp-parser/Parser#extract (; 36 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $2
+   (i32.load offset=12
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (block (result i32)
+    (set_global $~argc
+     (i32.const 1)
+    )
+    (block (result i32)
+     (set_local $3
+      (call $~lib/array/Array<i32>#slice|trampoline
+       (get_local $2)
+       (get_local $1)
+       (i32.const 0)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (return
+       (i32.const 0)
+      )
+     )
+     (get_local $3)
+    )
+   )
+  )
+  (call $~lib/array/Array<i32>#set:length
+   (get_local $2)
+   (get_local $1)
+  )
+  (if
+   (get_global $~exception)
+   (return
+    (i32.const 0)
+   )
+  )
+  (get_local $4)
+ )
+ (func $~lib/internal/regexp-parser/Parser#append (; 37 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (set_local $3
+   (i32.load offset=12
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.sub
+    (block $~lib/array/Array<i32>#get:length|inlined.6 (result i32)
+     (i32.load offset=4
+      (get_local $3)
+     )
+    )
+    (get_local $2)
+   )
+  )
+  (block $break|0
+   (block
+    (set_local $5
+     (i32.const 0)
+    )
+    (set_local $6
+     (block $~lib/array/Array<i32>#get:length|inlined.7 (result i32)
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+    )
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $5)
+       (get_local $6)
+      )
+     )
+    )
+    (block
+     (set_local $7
+      (call $~lib/array/Array<i32>#__get
+       (get_local $1)
+       (get_local $5)
+      )
+     )
+     (drop
+      (block (result i32)
+       (set_local $8
+        (call $~lib/array/Array<i32>#push
+         (get_local $3)
+         (get_local $7)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (return)
+       )
+       (get_local $8)
+      )
+     )
+     (block $break|1
+      (block $case6|1
+       (block $case5|1
+        (block $case4|1
+         (block $case3|1
+          (block $case2|1
+           (block $case1|1
+            (block $case0|1
+             (set_local $8
+              (get_local $7)
+             )
+             (br_if $case0|1
+              (i32.eq
+               (get_local $8)
+               (i32.const 1)
+              )
+             )
+             (br_if $case1|1
+              (i32.eq
+               (get_local $8)
+               (i32.const 7)
+              )
+             )
+             (br_if $case2|1
+              (i32.eq
+               (get_local $8)
+               (i32.const 6)
+              )
+             )
+             (br_if $case3|1
+              (i32.eq
+               (get_local $8)
+               (i32.const 5)
+              )
+             )
+             (br_if $case4|1
+              (i32.eq
+               (get_local $8)
+               (i32.const 3)
+              )
+             )
+             (br_if $case5|1
+              (i32.eq
+               (get_local $8)
+               (i32.const 4)
+              )
+             )
+             (br $case6|1)
+            )
+           )
+           (block
+            (drop
+             (block (result i32)
+              (set_local $8
+               (call $~lib/array/Array<i32>#push
+                (get_local $3)
+                (call $~lib/array/Array<i32>#__get
+                 (get_local $1)
+                 (i32.add
+                  (get_local $5)
+                  (i32.const 1)
+                 )
+                )
+               )
+              )
+              (if
+               (get_global $~exception)
+               (return)
+              )
+              (get_local $8)
+             )
+            )
+            (set_local $5
+             (i32.add
+              (get_local $5)
+              (i32.const 2)
+             )
+            )
+            (br $break|1)
+           )
+          )
+          (block
+           (drop
+            (block (result i32)
+             (set_local $8
+              (call $~lib/array/Array<i32>#push
+               (get_local $3)
+               (i32.add
+                (call $~lib/array/Array<i32>#__get
+                 (get_local $1)
+                 (i32.add
+                  (get_local $5)
+                  (i32.const 1)
+                 )
+                )
+                (get_local $4)
+               )
+              )
+             )
+             (if
+              (get_global $~exception)
+              (return)
+             )
+             (get_local $8)
+            )
+           )
+           (set_local $5
+            (i32.add
+             (get_local $5)
+             (i32.const 2)
+            )
+           )
+           (br $break|1)
+          )
+         )
+         (block
+          (drop
+           (block (result i32)
+            (set_local $8
+             (call $~lib/array/Array<i32>#push
+              (get_local $3)
+              (i32.add
+               (call $~lib/array/Array<i32>#__get
+                (get_local $1)
+                (i32.add
+                 (get_local $5)
+                 (i32.const 1)
+                )
+               )
+               (get_local $4)
+              )
+             )
+            )
+            (if
+             (get_global $~exception)
+             (return)
+            )
+            (get_local $8)
+           )
+          )
+          (drop
+           (block (result i32)
+            (set_local $8
+             (call $~lib/array/Array<i32>#push
+              (get_local $3)
+              (i32.add
+               (call $~lib/array/Array<i32>#__get
+                (get_local $1)
+                (i32.add
+                 (get_local $5)
+                 (i32.const 2)
+                )
+               )
+               (get_local $4)
+              )
+             )
+            )
+            (if
+             (get_global $~exception)
+             (return)
+            )
+            (get_local $8)
+           )
+          )
+          (set_local $5
+           (i32.add
+            (get_local $5)
+            (i32.const 3)
+           )
+          )
+          (br $break|1)
+         )
+        )
+       )
+       (block
+        (set_local $8
+         (i32.add
+          (i32.const 2)
+          (i32.shl
+           (call $~lib/array/Array<i32>#__get
+            (get_local $1)
+            (i32.add
+             (get_local $5)
+             (i32.const 1)
+            )
+           )
+           (i32.const 1)
+          )
+         )
+        )
+        (block $break|2
+         (set_local $9
+          (i32.const 1)
+         )
+         (loop $repeat|2
+          (br_if $break|2
+           (i32.eqz
+            (i32.lt_s
+             (get_local $9)
+             (get_local $8)
+            )
+           )
+          )
+          (drop
+           (block (result i32)
+            (set_local $10
+             (call $~lib/array/Array<i32>#push
+              (get_local $3)
+              (call $~lib/array/Array<i32>#__get
+               (get_local $1)
+               (i32.add
+                (get_local $5)
+                (get_local $9)
+               )
+              )
+             )
+            )
+            (if
+             (get_global $~exception)
+             (return)
+            )
+            (get_local $10)
+           )
+          )
+          (set_local $9
+           (i32.add
+            (get_local $9)
+            (i32.const 1)
+           )
+          )
+          (br $repeat|2)
+         )
+        )
+        (set_local $5
+         (i32.add
+          (get_local $5)
+          (get_local $8)
+         )
+        )
+        (br $break|1)
+       )
+      )
+      (block
+       (set_local $5
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (br $break|1)
+      )
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $~lib/array/Array<i32>#__set (; 38 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.shr_u
+    (i32.load
+     (get_local $3)
+    )
+    (i32.const 2)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (get_local $4)
+   )
+   (block
+    (if
+     (i32.ge_u
+      (get_local $1)
+      (i32.const 268435454)
+     )
+     (block
+      (set_global $~exception
+       (call $~lib/error/Error#constructor
+        (i32.const 0)
+        (i32.const 384)
+       )
+      )
+      (return)
+     )
+    )
+    (set_local $3
+     (call $~lib/internal/arraybuffer/reallocateUnsafe
+      (get_local $3)
+      (i32.shl
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+       (i32.const 2)
+      )
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (get_local $3)
+    )
+    (i32.store offset=4
+     (get_local $0)
+     (i32.add
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+   )
+  )
+  (block $~lib/internal/arraybuffer/storeUnsafe<i32,i32>|inlined.1
+   (i32.store offset=8
+    (i32.add
+     (get_local $3)
+     (i32.shl
+      (get_local $1)
+      (i32.const 2)
+     )
+    )
+    (get_local $2)
+   )
+  )
+ )
+ (func $~lib/internal/regexp-parser/Parser#parseQuantifier (; 39 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (if
+   (i32.ge_s
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.load offset=8
+     (get_local $0)
+    )
+   )
+   (return)
+  )
+  (block $break|0
+   (block $case4|0
+    (block $case3|0
+     (block $case2|0
+      (block $case1|0
+       (block $case0|0
+        (set_local $4
+         (call $~lib/string/String#charCodeAt
+          (i32.load
+           (get_local $0)
+          )
+          (i32.load offset=4
+           (get_local $0)
+          )
+         )
+        )
+        (br_if $case0|0
+         (i32.eq
+          (get_local $4)
+          (i32.const 42)
+         )
+        )
+        (br_if $case1|0
+         (i32.eq
+          (get_local $4)
+          (i32.const 43)
+         )
+        )
+        (br_if $case2|0
+         (i32.eq
+          (get_local $4)
+          (i32.const 63)
+         )
+        )
+        (br_if $case3|0
+         (i32.eq
+          (get_local $4)
+          (i32.const 123)
+         )
+        )
+        (br $case4|0)
+       )
+       (block
+        (set_local $2
+         (i32.const 0)
+        )
+        (set_local $3
+         (i32.const -1)
+        )
+        (i32.store offset=4
+         (get_local $0)
+         (i32.add
+          (i32.load offset=4
+           (get_local $0)
+          )
+          (i32.const 1)
+         )
+        )
+        (br $break|0)
+       )
+      )
+      (block
+       (set_local $2
+        (i32.const 1)
+       )
+       (set_local $3
+        (i32.const -1)
+       )
+       (i32.store offset=4
+        (get_local $0)
+        (i32.add
+         (i32.load offset=4
+          (get_local $0)
+         )
+         (i32.const 1)
+        )
+       )
+       (br $break|0)
+      )
+     )
+     (block
+      (set_local $2
+       (i32.const 0)
+      )
+      (set_local $3
+       (i32.const 1)
+      )
+      (i32.store offset=4
+       (get_local $0)
+       (i32.add
+        (i32.load offset=4
+         (get_local $0)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $break|0)
+     )
+    )
+    (block
+     (set_local $4
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (if
+      (i32.eqz
+       (call $~lib/internal/regexp-parser/Parser#parseBraces
+        (get_local $0)
+       )
+      )
+      (return)
+     )
+     (set_local $2
+      (i32.load offset=24
+       (get_local $0)
+      )
+     )
+     (set_local $3
+      (i32.load offset=28
+       (get_local $0)
+      )
+     )
+     (if
+      (if (result i32)
+       (tee_local $5
+        (i32.ge_s
+         (get_local $3)
+         (i32.const 0)
+        )
+       )
+       (i32.gt_s
+        (get_local $2)
+        (get_local $3)
+       )
+       (get_local $5)
+      )
+      (block
+       (i32.store offset=4
+        (get_local $0)
+        (get_local $4)
+       )
+       (call $~lib/internal/regexp-parser/Parser#error
+        (get_local $0)
+        (i32.const 1424)
+       )
+       (return)
+      )
+     )
+     (br $break|0)
+    )
+   )
+   (return)
+  )
+  (set_local $6
+   (call $~lib/internal/regexp-parser/Parser#skip
+    (get_local $0)
+    (i32.const 63)
+   )
+  )
+  (set_local $7
+   (i32.load offset=12
+    (get_local $0)
+   )
+  )
+  (set_local $8
+   (block (result i32)
+    (set_local $4
+     (call $~lib/internal/regexp-parser/Parser#extract
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return)
+    )
+    (get_local $4)
+   )
+  )
+  (block $break|1
+   (set_local $4
+    (i32.const 1)
+   )
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.eqz
+      (i32.lt_s
+       (get_local $4)
+       (get_local $2)
+      )
+     )
+    )
+    (block
+     (call $~lib/internal/regexp-parser/Parser#append
+      (get_local $0)
+      (get_local $8)
+      (get_local $1)
+     )
+     (if
+      (get_global $~exception)
+      (return)
+     )
+    )
+    (set_local $4
+     (i32.add
+      (get_local $4)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|1)
+   )
+  )
+  (if
+   (i32.lt_s
+    (get_local $3)
+    (i32.const 0)
+   )
+   (if
+    (i32.gt_s
+     (get_local $2)
+     (i32.const 0)
+    )
+    (block
+     (set_local $4
+      (block $~lib/array/Array<i32>#get:length|inlined.8 (result i32)
+       (i32.load offset=4
+        (get_local $7)
+       )
+      )
+     )
+     (call $~lib/internal/regexp-parser/Parser#append
+      (get_local $0)
+      (get_local $8)
+      (get_local $1)
+     )
+     (if
+      (get_global $~exception)
+      (return)
+     )
+     (drop
+      (block (result i32)
+       (set_local $5
+        (call $~lib/array/Array<i32>#push
+         (get_local $7)
+         (i32.const 5)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (return)
+       )
+       (get_local $5)
+      )
+     )
+     (set_local $5
+      (i32.add
+       (block $~lib/array/Array<i32>#get:length|inlined.9 (result i32)
+        (i32.load offset=4
+         (get_local $7)
+        )
+       )
+       (i32.const 2)
+      )
+     )
+     (drop
+      (block (result i32)
+       (set_local $9
+        (call $~lib/array/Array<i32>#push
+         (get_local $7)
+         (if (result i32)
+          (get_local $6)
+          (get_local $5)
+          (get_local $4)
+         )
+        )
+       )
+       (if
+        (get_global $~exception)
+        (return)
+       )
+       (get_local $9)
+      )
+     )
+     (drop
+      (block (result i32)
+       (set_local $9
+        (call $~lib/array/Array<i32>#push
+         (get_local $7)
+         (if (result i32)
+          (get_local $6)
+          (get_local $4)
+          (get_local $5)
+         )
+        )
+       )
+       (if
+        (get_global $~exception)
+        (return)
+       )
+       (get_local $9)
+      )
+     )
+    )
+    (block
+     (set_local $5
+      (block $~lib/array/Array<i32>#get:length|inlined.10 (result i32)
+       (i32.load offset=4
+        (get_local $7)
+       )
+      )
+     )
+     (drop
+      (block (result i32)
+       (set_local $4
+        (call $~lib/array/Array<i32>#push
+         (get_local $7)
+         (i32.const 5)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (return)
+       )
+       (get_local $4)
+      )
+     )
+     (drop
+      (block (result i32)
+       (set_local $4
+        (call $~lib/array/Array<i32>#push
+         (get_local $7)
+         (i32.add
+          (get_local $5)
+          (i32.const 3)
+         )
+        )
+       )
+       (if
+        (get_global $~exception)
+        (return)
+       )
+       (get_local $4)
+      )
+     )
+     (drop
+      (block (result i32)
+       (set_local $4
+        (call $~lib/array/Array<i32>#push
+         (get_local $7)
+         (i32.const 0)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (return)
+       )
+       (get_local $4)
+      )
+     )
+     (call $~lib/internal/regexp-parser/Parser#append
+      (get_local $0)
+      (get_local $8)
+      (get_local $1)
+     )
+     (if
+      (get_global $~exception)
+      (return)
+     )
+     (drop
+      (block (result i32)
+       (set_local $4
+        (call $~lib/array/Array<i32>#push
+         (get_local $7)
+         (i32.const 6)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (return)
+       )
+       (get_local $4)
+      )
+     )
+     (drop
+      (block (result i32)
+       (set_local $4
+        (call $~lib/array/Array<i32>#push
+         (get_local $7)
+         (get_local $5)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (return)
+       )
+       (get_local $4)
+      )
+     )
+     (if
+      (get_local $6)
+      (block
+       (call $~lib/array/Array<i32>#__set
+        (get_local $7)
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+        (block $~lib/array/Array<i32>#get:length|inlined.11 (result i32)
+         (i32.load offset=4
+          (get_local $7)
+         )
+        )
+       )
+       (if
+        (get_global $~exception)
+        (return)
+       )
+       (call $~lib/array/Array<i32>#__set
+        (get_local $7)
+        (i32.add
+         (get_local $5)
+         (i32.const 2)
+        )
+        (i32.add
+         (get_local $5)
+         (i32.const 3)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (return)
+       )
+      )
+      (block
+       (call $~lib/array/Array<i32>#__set
+        (get_local $7)
+        (i32.add
+         (get_local $5)
+         (i32.const 2)
+        )
+        (block $~lib/array/Array<i32>#get:length|inlined.12 (result i32)
+         (i32.load offset=4
+          (get_local $7)
+         )
+        )
+       )
+       (if
+        (get_global $~exception)
+        (return)
+       )
+      )
+     )
+    )
+   )
+   (block
+    (if
+     (i32.gt_s
+      (get_local $2)
+      (i32.const 0)
+     )
+     (block
+      (call $~lib/internal/regexp-parser/Parser#append
+       (get_local $0)
+       (get_local $8)
+       (get_local $1)
+      )
+      (if
+       (get_global $~exception)
+       (return)
+      )
+     )
+    )
+    (block $break|2
+     (set_local $5
+      (get_local $2)
+     )
+     (loop $repeat|2
+      (br_if $break|2
+       (i32.eqz
+        (i32.lt_s
+         (get_local $5)
+         (get_local $3)
+        )
+       )
+      )
+      (block
+       (set_local $4
+        (block $~lib/array/Array<i32>#get:length|inlined.13 (result i32)
+         (i32.load offset=4
+          (get_local $7)
+         )
+        )
+       )
+       (drop
+        (block (result i32)
+         (set_local $9
+          (call $~lib/array/Array<i32>#push
+           (get_local $7)
+           (i32.const 5)
+          )
+         )
+         (if
+          (get_global $~exception)
+          (return)
+         )
+         (get_local $9)
+        )
+       )
+       (drop
+        (block (result i32)
+         (set_local $9
+          (call $~lib/array/Array<i32>#push
+           (get_local $7)
+           (i32.add
+            (get_local $4)
+            (i32.const 3)
+           )
+          )
+         )
+         (if
+          (get_global $~exception)
+          (return)
+         )
+         (get_local $9)
+        )
+       )
+       (drop
+        (block (result i32)
+         (set_local $9
+          (call $~lib/array/Array<i32>#push
+           (get_local $7)
+           (i32.const 0)
+          )
+         )
+         (if
+          (get_global $~exception)
+          (return)
+         )
+         (get_local $9)
+        )
+       )
+       (call $~lib/internal/regexp-parser/Parser#append
+        (get_local $0)
+        (get_local $8)
+        (get_local $1)
+       )
+       (if
+        (get_global $~exception)
+        (return)
+       )
+       (if
+        (get_local $6)
+        (block
+         (call $~lib/array/Array<i32>#__set
+          (get_local $7)
+          (i32.add
+           (get_local $4)
+           (i32.const 1)
+          )
+          (block $~lib/array/Array<i32>#get:length|inlined.14 (result i32)
+           (i32.load offset=4
+            (get_local $7)
+           )
+          )
+         )
+         (if
+          (get_global $~exception)
+          (return)
+         )
+         (call $~lib/array/Array<i32>#__set
+          (get_local $7)
+          (i32.add
+           (get_local $4)
+           (i32.const 2)
+          )
+          (i32.add
+           (get_local $4)
+           (i32.const 3)
+          )
+         )
+         (if
+          (get_global $~exception)
+          (return)
+         )
+        )
+        (block
+         (call $~lib/array/Array<i32>#__set
+          (get_local $7)
+          (i32.add
+           (get_local $4)
+           (i32.const 2)
+          )
+          (block $~lib/array/Array<i32>#get:length|inlined.15 (result i32)
+           (i32.load offset=4
+            (get_local $7)
+           )
+          )
+         )
+         (if
+          (get_global $~exception)
+          (return)
+         )
+        )
+       )
+      )
+      (set_local $5
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|2)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/regexp-parser/Parser#parseTerm (; 40 ;) (type $iv) (param $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=12
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (block $break|0
+   (block $case6|0
+    (block $case5|0
+     (block $case4|0
+      (block $case3|0
+       (block $case2|0
+        (block $case1|0
+         (block $case0|0
+          (set_local $4
+           (call $~lib/string/String#charCodeAt
+            (get_local $1)
+            (get_local $3)
+           )
+          )
+          (br_if $case0|0
+           (i32.eq
+            (get_local $4)
+            (i32.const 94)
+           )
+          )
+          (br_if $case1|0
+           (i32.eq
+            (get_local $4)
+            (i32.const 36)
+           )
+          )
+          (br_if $case2|0
+           (i32.eq
+            (get_local $4)
+            (i32.const 92)
+           )
+          )
+          (br_if $case3|0
+           (i32.eq
+            (get_local $4)
+            (i32.const 42)
+           )
+          )
+          (br_if $case4|0
+           (i32.eq
+            (get_local $4)
+            (i32.const 43)
+           )
+          )
+          (br_if $case5|0
+           (i32.eq
+            (get_local $4)
+            (i32.const 63)
+           )
+          )
+          (br_if $case6|0
+           (i32.eq
+            (get_local $4)
+            (i32.const 123)
+           )
+          )
+          (br $break|0)
+         )
+         (block
+          (i32.store offset=4
+           (get_local $0)
+           (i32.add
+            (get_local $3)
+            (i32.const 1)
+           )
+          )
+          (drop
+           (block (result i32)
+            (set_local $4
+             (call $~lib/array/Array<i32>#push
+              (get_local $2)
+              (i32.const 8)
+             )
+            )
+            (if
+             (get_global $~exception)
+             (return)
+            )
+            (get_local $4)
+           )
+          )
+          (return)
+         )
+        )
+        (block
+         (i32.store offset=4
+          (get_local $0)
+          (i32.add
+           (get_local $3)
+           (i32.const 1)
+          )
+         )
+         (drop
+          (block (result i32)
+           (set_local $4
+            (call $~lib/array/Array<i32>#push
+             (get_local $2)
+             (i32.const 9)
+            )
+           )
+           (if
+            (get_global $~exception)
+            (return)
+           )
+           (get_local $4)
+          )
+         )
+         (return)
+        )
+       )
+       (block
+        (if
+         (i32.lt_s
+          (i32.add
+           (get_local $3)
+           (i32.const 1)
+          )
+          (i32.load offset=8
+           (get_local $0)
+          )
+         )
+         (block
+          (set_local $4
+           (call $~lib/string/String#charCodeAt
+            (get_local $1)
+            (i32.add
+             (get_local $3)
+             (i32.const 1)
+            )
+           )
+          )
+          (if
+           (if (result i32)
+            (tee_local $5
+             (i32.eq
+              (get_local $4)
+              (i32.const 98)
+             )
+            )
+            (get_local $5)
+            (i32.eq
+             (get_local $4)
+             (i32.const 66)
+            )
+           )
+           (block
+            (i32.store offset=4
+             (get_local $0)
+             (i32.add
+              (get_local $3)
+              (i32.const 2)
+             )
+            )
+            (drop
+             (block (result i32)
+              (set_local $5
+               (call $~lib/array/Array<i32>#push
+                (get_local $2)
+                (if (result i32)
+                 (i32.eq
+                  (get_local $4)
+                  (i32.const 98)
+                 )
+                 (i32.const 10)
+                 (i32.const 11)
+                )
+               )
+              )
+              (if
+               (get_global $~exception)
+               (return)
+              )
+              (get_local $5)
+             )
+            )
+            (return)
+           )
+          )
+         )
+        )
+        (br $break|0)
+       )
+      )
+     )
+    )
+    (block
+     (call $~lib/internal/regexp-parser/Parser#error
+      (get_local $0)
+      (i32.const 592)
+     )
+     (return)
+    )
+   )
+   (block
+    (if
+     (call $~lib/internal/regexp-parser/Parser#parseBraces
+      (get_local $0)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $0)
+       (get_local $3)
+      )
+      (call $~lib/internal/regexp-parser/Parser#error
+       (get_local $0)
+       (i32.const 592)
+      )
+      (return)
+     )
+    )
+    (br $break|0)
+   )
+  )
+  (set_local $6
+   (block $~lib/array/Array<i32>#get:length|inlined.1 (result i32)
+    (i32.load offset=4
+     (get_local $2)
+    )
+   )
+  )
+  (call $~lib/internal/regexp-parser/Parser#parseAtom
+   (get_local $0)
+  )
+  (if
+   (get_global $~exception)
+   (return)
+  )
+  (if
+   (i32.eq
+    (i32.load offset=20
+     (get_local $0)
+    )
+    (i32.const 0)
+   )
+   (block
+    (call $~lib/internal/regexp-parser/Parser#parseQuantifier
+     (get_local $0)
+     (get_local $6)
+    )
+    (if
+     (get_global $~exception)
+     (return)
+    )
+   )
+  )
+ )
+ (func $~lib/internal/regexp-parser/Parser#parseAlternative (; 41 ;) (type $iv) (param $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=8
+    (get_local $0)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (if (result i32)
+      (tee_local $3
+       (i32.eq
+        (i32.load offset=20
+         (get_local $0)
+        )
+        (i32.const 0)
+       )
+      )
+      (i32.lt_s
+       (i32.load offset=4
+        (get_local $0)
+       )
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $3
+        (call $~lib/string/String#charCodeAt
+         (get_local $1)
+         (i32.load offset=4
+          (get_local $0)
+         )
+        )
+       )
+       (if
+        (if (result i32)
+         (tee_local $4
+          (i32.eq
+           (get_local $3)
+           (i32.const 124)
+          )
+         )
+         (get_local $4)
+         (i32.eq
+          (get_local $3)
+          (i32.const 41)
+         )
+        )
+        (br $break|0)
+       )
+       (call $~lib/internal/regexp-parser/Parser#parseTerm
+        (get_local $0)
+       )
+       (if
+        (get_global $~exception)
+        (return)
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/regexp-parser/Parser#parseDisjunction (; 42 ;) (type $iv) (param $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $1
+   (i32.load offset=12
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (block $~lib/array/Array<i32>#get:length|inlined.0 (result i32)
+    (i32.load offset=4
+     (get_local $1)
+    )
+   )
+  )
+  (call $~lib/internal/regexp-parser/Parser#parseAlternative
+   (get_local $0)
+  )
+  (if
+   (get_global $~exception)
+   (return)
+  )
+  (if
+   (if (result i32)
+    (tee_local $3
+     (i32.ne
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+    )
+    (get_local $3)
+    (i32.eqz
+     (call $~lib/internal/regexp-parser/Parser#skip
+      (get_local $0)
+      (i32.const 124)
+     )
+    )
+   )
+   (return)
+  )
+  (set_local $4
+   (block (result i32)
+    (set_local $3
+     (call $~lib/internal/regexp-parser/Parser#extract
+      (get_local $0)
+      (get_local $2)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return)
+    )
+    (get_local $3)
+   )
+  )
+  (drop
+   (block (result i32)
+    (set_local $3
+     (call $~lib/array/Array<i32>#push
+      (get_local $1)
+      (i32.const 5)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return)
+    )
+    (get_local $3)
+   )
+  )
+  (drop
+   (block (result i32)
+    (set_local $3
+     (call $~lib/array/Array<i32>#push
+      (get_local $1)
+      (i32.add
+       (get_local $2)
+       (i32.const 3)
+      )
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return)
+    )
+    (get_local $3)
+   )
+  )
+  (drop
+   (block (result i32)
+    (set_local $3
+     (call $~lib/array/Array<i32>#push
+      (get_local $1)
+      (i32.const 0)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return)
+    )
+    (get_local $3)
+   )
+  )
+  (call $~lib/internal/regexp-parser/Parser#append
+   (get_local $0)
+   (get_local $4)
+   (get_local $2)
+  )
+  (if
+   (get_global $~exception)
+   (return)
+  )
+  (drop
+   (block (result i32)
+    (set_local $3
+     (call $~lib/array/Array<i32>#push
+      (get_local $1)
+      (i32.const 6)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return)
+    )
+    (get_local $3)
+   )
+  )
+  (set_local $5
+   (block $~lib/array/Array<i32>#get:length|inlined.16 (result i32)
+    (i32.load offset=4
+     (get_local $1)
+    )
+   )
+  )
+  (drop
+   (block (result i32)
+    (set_local $3
+     (call $~lib/array/Array<i32>#push
+      (get_local $1)
+      (i32.const 0)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return)
+    )
+    (get_local $3)
+   )
+  )
+  (call $~lib/array/Array<i32>#__set
+   (get_local $1)
+   (i32.add
+    (get_local $2)
+    (i32.const 2)
+   )
+   (block $~lib/array/Array<i32>#get:length|inlined.17 (result i32)
+    (i32.load offset=4
+     (get_local $1)
+    )
+   )
+  )
+  (if
+   (get_global $~exception)
+   (return)
+  )
+  (call $~lib/internal/regexp-parser/Parser#parseDisjunction
+   (get_local $0)
+  )
+  (if
+   (get_global $~exception)
+   (return)
+  )
+  (call $~lib/array/Array<i32>#__set
+   (get_local $1)
+   (get_local $5)
+   (block $~lib/array/Array<i32>#get:length|inlined.18 (result i32)
+    (i32.load offset=4
+     (get_local $1)
+    )
+   )
+  )
+  (if
+   (get_global $~exception)
+   (return)
+  )
+ )
+ (func $~lib/internal/regexp-parser/Parser#parse (; 43 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (set_local $1
+   (i32.load offset=12
+    (get_local $0)
+   )
+  )
+  (drop
+   (block (result i32)
+    (set_local $2
+     (call $~lib/array/Array<i32>#push
+      (get_local $1)
+      (i32.const 0)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $2)
+   )
+  )
+  (drop
+   (block (result i32)
+    (set_local $2
+     (call $~lib/array/Array<i32>#push
+      (get_local $1)
+      (i32.const 7)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $2)
+   )
+  )
+  (drop
+   (block (result i32)
+    (set_local $2
+     (call $~lib/array/Array<i32>#push
+      (get_local $1)
+      (i32.const 0)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $2)
+   )
+  )
+  (call $~lib/internal/regexp-parser/Parser#parseDisjunction
+   (get_local $0)
+  )
+  (if
+   (get_global $~exception)
+   (return
+    (i32.const 0)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $2
+     (i32.eq
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+    )
+    (i32.lt_s
+     (i32.load offset=4
+      (get_local $0)
+     )
+     (i32.load offset=8
+      (get_local $0)
+     )
+    )
+    (get_local $2)
+   )
+   (call $~lib/internal/regexp-parser/Parser#error
+    (get_local $0)
+    (i32.const 1504)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=20
+     (get_local $0)
+    )
+    (i32.const 0)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (drop
+   (block (result i32)
+    (set_local $2
+     (call $~lib/array/Array<i32>#push
+      (get_local $1)
+      (i32.const 7)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $2)
+   )
+  )
+  (drop
+   (block (result i32)
+    (set_local $2
+     (call $~lib/array/Array<i32>#push
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $2)
+   )
+  )
+  (drop
+   (block (result i32)
+    (set_local $2
+     (call $~lib/array/Array<i32>#push
+      (get_local $1)
+      (i32.const 0)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $2)
+   )
+  )
+  (call $~lib/array/Array<i32>#__set
+   (get_local $1)
+   (i32.const 0)
+   (i32.load offset=16
+    (get_local $0)
+   )
+  )
+  (if
+   (get_global $~exception)
+   (return
+    (i32.const 0)
+   )
+  )
+  (get_local $1)
+ )
+ (func $~lib/regexp/RegExp#constructor (; 44 ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $4
+   (call $~lib/internal/regexp-parser/parseFlags
+    (get_local $2)
+   )
+  )
+  (if
+   (i32.lt_s
+    (get_local $4)
+    (i32.const 0)
+   )
+   (block
+    (set_global $~exception
+     (call $~lib/error/Error#constructor
+      (i32.const 0)
+      (call $~lib/string/String.__concat
+       (call $~lib/string/String.__concat
+        (i32.const 200)
+        (get_local $2)
+       )
+       (i32.const 344)
+      )
+     )
+    )
+    (return
+     (i32.const 0)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $3)
+   )
+   (block
+    (set_local $5
+     (block (result i32)
+      (set_local $5
+       (call $~lib/internal/regexp-parser/Parser#constructor
+        (i32.const 0)
+        (get_local $1)
+       )
+      )
+      (if
+       (get_global $~exception)
+       (return
+        (i32.const 0)
+       )
+      )
+      (get_local $5)
+     )
+    )
+    (set_local $3
+     (block (result i32)
+      (set_local $6
+       (call $~lib/internal/regexp-parser/Parser#parse
+        (get_local $5)
+       )
+      )
+      (if
+       (get_global $~exception)
+       (return
+        (i32.const 0)
+       )
+      )
+      (get_local $6)
+     )
+    )
+    (if
+     (i32.eqz
+      (get_local $3)
+     )
+     (block
+      (set_global $~exception
+       (call $~lib/error/Error#constructor
+        (i32.const 0)
+        (call $~lib/string/String.__concat
+         (call $~lib/string/String.__concat
+          (call $~lib/string/String.__concat
+           (i32.const 1536)
+           (get_local $1)
+          )
+          (i32.const 1600)
+         )
+         (i32.load offset=20
+          (get_local $5)
+         )
+        )
+       )
+      )
+      (return
+       (i32.const 0)
+      )
+     )
+    )
+   )
+  )
+  (i32.store
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $5
+        (call $~lib/memory/memory.allocate
+         (i32.const 16)
+        )
+       )
+       (i32.store
+        (get_local $5)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $5)
+        (i32.const 0)
+       )
+       (i32.store offset=8
+        (get_local $5)
+        (i32.const 0)
+       )
+       (i32.store offset=12
+        (get_local $5)
+        (i32.const 0)
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+   (if (result i32)
+    (i32.load
+     (get_local $1)
+    )
+    (get_local $1)
+    (i32.const 1616)
+   )
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $3)
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/string/compareUnsafe (; 45 ;) (type $iiiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (result i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (set_local $5
+   (i32.const 0)
+  )
+  (set_local $6
+   (i32.add
+    (get_local $0)
+    (i32.shl
+     (get_local $1)
+     (i32.const 1)
+    )
+   )
+  )
+  (set_local $7
+   (i32.add
+    (get_local $2)
+    (i32.shl
+     (get_local $3)
+     (i32.const 1)
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (if (result i32)
+      (get_local $4)
+      (i32.eqz
+       (tee_local $5
+        (i32.sub
+         (i32.load16_u offset=4
+          (get_local $6)
+         )
+         (i32.load16_u offset=4
+          (get_local $7)
+         )
+        )
+       )
+      )
+      (get_local $4)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.sub
+         (get_local $4)
+         (i32.const 1)
+        )
+       )
+       (set_local $6
+        (i32.add
+         (get_local $6)
+         (i32.const 2)
+        )
+       )
+       (set_local $7
+        (i32.add
+         (get_local $7)
+         (i32.const 2)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (get_local $5)
+ )
+ (func $~lib/string/String.__eq (; 46 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $2
+     (i32.eq
+      (get_local $0)
+      (i32.const 0)
+     )
+    )
+    (get_local $2)
+    (i32.eq
+     (get_local $1)
+     (i32.const 0)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.ne
+    (get_local $3)
+    (i32.load
+     (get_local $1)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.eqz
+   (call $~lib/internal/string/compareUnsafe
+    (get_local $0)
+    (i32.const 0)
+    (get_local $1)
+    (i32.const 0)
+    (get_local $3)
+   )
+  )
+ )
+ (func $~lib/regexp/RegExp#get:flags (; 47 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (set_local $1
+   (i32.load offset=8
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.const 24)
+  )
+  (if
+   (i32.and
+    (get_local $1)
+    (i32.const 1)
+   )
+   (set_local $2
+    (call $~lib/string/String.__concat
+     (get_local $2)
+     (i32.const 1704)
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $1)
+    (i32.const 2)
+   )
+   (set_local $2
+    (call $~lib/string/String.__concat
+     (get_local $2)
+     (i32.const 1712)
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $1)
+    (i32.const 4)
+   )
+   (set_local $2
+    (call $~lib/string/String.__concat
+     (get_local $2)
+     (i32.const 1720)
+    )
+   )
+  )
+  (get_local $2)
+ )
+ (func $~lib/regexp/RegExp#get:global (; 48 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.ne
+   (i32.and
+    (i32.load offset=8
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/regexp/RegExp#get:ignoreCase (; 49 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.ne
+   (i32.and
+    (i32.load offset=8
+     (get_local $0)
+    )
+    (i32.const 2)
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/regexp/RegExp#get:multiline (; 50 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.ne
+   (i32.and
+    (i32.load offset=8
+     (get_local $0)
+    )
+    (i32.const 4)
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/regexp/RegExp#toString (; 51 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/string/String.__concat
+   (call $~lib/string/String.__concat
+    (call $~lib/string/String.__concat
+     (i32.const 1728)
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (i32.const 1728)
+   )
+   (call $~lib/regexp/RegExp#get:flags
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/internal/regexp/Matcher#constructor (; 52 ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (i32.store
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $4
+        (call $~lib/memory/memory.allocate
+         (i32.const 24)
+        )
+       )
+       (i32.store
+        (get_local $4)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $4)
+        (i32.const 0)
+       )
+       (i32.store offset=8
+        (get_local $4)
+        (i32.const 0)
+       )
+       (i32.store offset=12
+        (get_local $4)
+        (i32.const 0)
+       )
+       (i32.store offset=16
+        (get_local $4)
+        (i32.const 0)
+       )
+       (i32.store offset=20
+        (get_local $4)
+        (i32.const 0)
+       )
+       (get_local $4)
+      )
+     )
+    )
+   )
+   (get_local $1)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $3)
+  )
+  (set_local $5
+   (i32.shl
+    (i32.add
+     (call $~lib/array/Array<i32>#__get
+      (get_local $1)
+      (i32.const 0)
+     )
+     (i32.const 1)
+    )
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (block (result i32)
+    (set_local $4
+     (call $~lib/array/Array<i32>#constructor
+      (i32.const 0)
+      (block $~lib/array/Array<i32>#get:length|inlined.19 (result i32)
+       (i32.load offset=4
+        (get_local $1)
+       )
+      )
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $4)
+   )
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (block (result i32)
+    (set_local $4
+     (call $~lib/array/Array<i32>#constructor
+      (i32.const 0)
+      (get_local $5)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $4)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/regexp/ThreadList#constructor (; 53 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (i32.store
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $3
+        (call $~lib/memory/memory.allocate
+         (i32.const 12)
+        )
+       )
+       (i32.store
+        (get_local $3)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $3)
+        (i32.const 0)
+       )
+       (i32.store offset=8
+        (get_local $3)
+        (i32.const 0)
+       )
+       (get_local $3)
+      )
+     )
+    )
+   )
+   (block (result i32)
+    (set_local $3
+     (call $~lib/array/Array<i32>#constructor
+      (i32.const 0)
+      (get_local $1)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $3)
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (block (result i32)
+    (set_local $3
+     (call $~lib/array/Array<i32>#constructor
+      (i32.const 0)
+      (i32.mul
+       (get_local $1)
+       (get_local $2)
+      )
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $3)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/regexp/isLineTerminator (; 54 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if (result i32)
+   (tee_local $1
+    (if (result i32)
+     (tee_local $1
+      (if (result i32)
+       (tee_local $1
+        (i32.eq
+         (get_local $0)
+         (i32.const 10)
+        )
+       )
+       (get_local $1)
+       (i32.eq
+        (get_local $0)
+        (i32.const 13)
+       )
+      )
+     )
+     (get_local $1)
+     (i32.eq
+      (get_local $0)
+      (i32.const 8232)
+     )
+    )
+   )
+   (get_local $1)
+   (i32.eq
+    (get_local $0)
+    (i32.const 8233)
+   )
+  )
+ )
+ (func $~lib/internal/regexp/isWordCharacter (; 55 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if (result i32)
+   (tee_local $1
+    (if (result i32)
+     (tee_local $1
+      (if (result i32)
+       (tee_local $1
+        (if (result i32)
+         (tee_local $1
+          (i32.ge_s
+           (get_local $0)
+           (i32.const 48)
+          )
+         )
+         (i32.le_s
+          (get_local $0)
+          (i32.const 57)
+         )
+         (get_local $1)
+        )
+       )
+       (get_local $1)
+       (if (result i32)
+        (tee_local $1
+         (i32.ge_s
+          (get_local $0)
+          (i32.const 65)
+         )
+        )
+        (i32.le_s
+         (get_local $0)
+         (i32.const 90)
+        )
+        (get_local $1)
+       )
+      )
+     )
+     (get_local $1)
+     (if (result i32)
+      (tee_local $1
+       (i32.ge_s
+        (get_local $0)
+        (i32.const 97)
+       )
+      )
+      (i32.le_s
+       (get_local $0)
+       (i32.const 122)
+      )
+      (get_local $1)
+     )
+    )
+   )
+   (get_local $1)
+   (i32.eq
+    (get_local $0)
+    (i32.const 95)
+   )
+  )
+ )
+ (func $~lib/internal/regexp/Matcher#isWordBoundary (; 56 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (i32.load offset=8
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (if (result i32)
+    (tee_local $3
+     (i32.gt_s
+      (get_local $1)
+      (i32.const 0)
+     )
+    )
+    (call $~lib/internal/regexp/isWordCharacter
+     (call $~lib/string/String#charCodeAt
+      (get_local $2)
+      (i32.sub
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+    )
+    (get_local $3)
+   )
+  )
+  (set_local $5
+   (if (result i32)
+    (tee_local $3
+     (i32.lt_s
+      (get_local $1)
+      (i32.load
+       (get_local $2)
+      )
+     )
+    )
+    (call $~lib/internal/regexp/isWordCharacter
+     (call $~lib/string/String#charCodeAt
+      (get_local $2)
+      (get_local $1)
+     )
+    )
+    (get_local $3)
+   )
+  )
+  (i32.ne
+   (get_local $4)
+   (get_local $5)
+  )
+ )
+ (func $~lib/internal/regexp/Matcher#addThread (; 57 ;) (type $iiiiv) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (local $13 i32)
+  (set_local $4
+   (i32.load offset=16
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eq
+    (call $~lib/array/Array<i32>#__get
+     (get_local $4)
+     (get_local $2)
+    )
+    (i32.add
+     (get_local $3)
+     (i32.const 1)
+    )
+   )
+   (return)
+  )
+  (call $~lib/array/Array<i32>#__set
+   (get_local $4)
+   (get_local $2)
+   (i32.add
+    (get_local $3)
+    (i32.const 1)
+   )
+  )
+  (if
+   (get_global $~exception)
+   (return)
+  )
+  (set_local $5
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (block $break|0
+   (block $case6|0
+    (block $case5|0
+     (block $case4|0
+      (block $case3|0
+       (block $case2|0
+        (block $case1|0
+         (block $case0|0
+          (set_local $6
+           (call $~lib/array/Array<i32>#__get
+            (get_local $5)
+            (get_local $2)
+           )
+          )
+          (br_if $case0|0
+           (i32.eq
+            (get_local $6)
+            (i32.const 6)
+           )
+          )
+          (br_if $case1|0
+           (i32.eq
+            (get_local $6)
+            (i32.const 5)
+           )
+          )
+          (br_if $case2|0
+           (i32.eq
+            (get_local $6)
+            (i32.const 7)
+           )
+          )
+          (br_if $case3|0
+           (i32.eq
+            (get_local $6)
+            (i32.const 8)
+           )
+          )
+          (br_if $case4|0
+           (i32.eq
+            (get_local $6)
+            (i32.const 9)
+           )
+          )
+          (br_if $case5|0
+           (i32.eq
+            (get_local $6)
+            (i32.const 10)
+           )
+          )
+          (br_if $case6|0
+           (i32.eq
+            (get_local $6)
+            (i32.const 11)
+           )
+          )
+          (br $break|0)
+         )
+         (block
+          (call $~lib/internal/regexp/Matcher#addThread
+           (get_local $0)
+           (get_local $1)
+           (call $~lib/array/Array<i32>#__get
+            (get_local $5)
+            (i32.add
+             (get_local $2)
+             (i32.const 1)
+            )
+           )
+           (get_local $3)
+          )
+          (if
+           (get_global $~exception)
+           (return)
+          )
+          (return)
+         )
+        )
+        (block
+         (call $~lib/internal/regexp/Matcher#addThread
+          (get_local $0)
+          (get_local $1)
+          (call $~lib/array/Array<i32>#__get
+           (get_local $5)
+           (i32.add
+            (get_local $2)
+            (i32.const 1)
+           )
+          )
+          (get_local $3)
+         )
+         (if
+          (get_global $~exception)
+          (return)
+         )
+         (call $~lib/internal/regexp/Matcher#addThread
+          (get_local $0)
+          (get_local $1)
+          (call $~lib/array/Array<i32>#__get
+           (get_local $5)
+           (i32.add
+            (get_local $2)
+            (i32.const 2)
+           )
+          )
+          (get_local $3)
+         )
+         (if
+          (get_global $~exception)
+          (return)
+         )
+         (return)
+        )
+       )
+       (block
+        (set_local $6
+         (i32.load offset=20
+          (get_local $0)
+         )
+        )
+        (set_local $7
+         (call $~lib/array/Array<i32>#__get
+          (get_local $5)
+          (i32.add
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+        )
+        (set_local $8
+         (call $~lib/array/Array<i32>#__get
+          (get_local $6)
+          (get_local $7)
+         )
+        )
+        (call $~lib/array/Array<i32>#__set
+         (get_local $6)
+         (get_local $7)
+         (get_local $3)
+        )
+        (if
+         (get_global $~exception)
+         (return)
+        )
+        (call $~lib/internal/regexp/Matcher#addThread
+         (get_local $0)
+         (get_local $1)
+         (i32.add
+          (get_local $2)
+          (i32.const 2)
+         )
+         (get_local $3)
+        )
+        (if
+         (get_global $~exception)
+         (return)
+        )
+        (call $~lib/array/Array<i32>#__set
+         (get_local $6)
+         (get_local $7)
+         (get_local $8)
+        )
+        (if
+         (get_global $~exception)
+         (return)
+        )
+        (return)
+       )
+      )
+      (block
+       (if
+        (if (result i32)
+         (tee_local $8
+          (i32.eq
+           (get_local $3)
+           (i32.const 0)
+          )
+         )
+         (get_local $8)
+         (if (result i32)
+          (tee_local $8
+           (i32.ne
+            (i32.and
+             (i32.load offset=4
+              (get_local $0)
+             )
+             (i32.const 4)
+            )
+            (i32.const 0)
+           )
+          )
+          (call $~lib/internal/regexp/isLineTerminator
+           (call $~lib/string/String#charCodeAt
+            (i32.load offset=8
+             (get_local $0)
+            )
+            (i32.sub
+             (get_local $3)
+             (i32.const 1)
+            )
+           )
+          )
+          (get_local $8)
+         )
+        )
+        (block
+         (call $~lib/internal/regexp/Matcher#addThread
+          (get_local $0)
+          (get_local $1)
+          (i32.add
+           (get_local $2)
+           (i32.const 1)
+          )
+          (get_local $3)
+         )
+         (if
+          (get_global $~exception)
+          (return)
+         )
+        )
+       )
+       (return)
+      )
+     )
+     (block
+      (if
+       (if (result i32)
+        (tee_local $8
+         (i32.eq
+          (get_local $3)
+          (i32.load
+           (i32.load offset=8
+            (get_local $0)
+           )
+          )
+         )
+        )
+        (get_local $8)
+        (if (result i32)
+         (tee_local $8
+          (i32.ne
+           (i32.and
+            (i32.load offset=4
+             (get_local $0)
+            )
+            (i32.const 4)
+           )
+           (i32.const 0)
+          )
+         )
+         (call $~lib/internal/regexp/isLineTerminator
+          (call $~lib/string/String#charCodeAt
+           (i32.load offset=8
+            (get_local $0)
+           )
+           (get_local $3)
+          )
+         )
+         (get_local $8)
+        )
+       )
+       (block
+        (call $~lib/internal/regexp/Matcher#addThread
+         (get_local $0)
+         (get_local $1)
+         (i32.add
+          (get_local $2)
+          (i32.const 1)
+         )
+         (get_local $3)
+        )
+        (if
+         (get_global $~exception)
+         (return)
+        )
+       )
+      )
+      (return)
+     )
+    )
+    (block
+     (if
+      (call $~lib/internal/regexp/Matcher#isWordBoundary
+       (get_local $0)
+       (get_local $3)
+      )
+      (block
+       (call $~lib/internal/regexp/Matcher#addThread
+        (get_local $0)
+        (get_local $1)
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+        (get_local $3)
+       )
+       (if
+        (get_global $~exception)
+        (return)
+       )
+      )
+     )
+     (return)
+    )
+   )
+   (block
+    (if
+     (i32.eqz
+      (call $~lib/internal/regexp/Matcher#isWordBoundary
+       (get_local $0)
+       (get_local $3)
+      )
+     )
+     (block
+      (call $~lib/internal/regexp/Matcher#addThread
+       (get_local $0)
+       (get_local $1)
+       (i32.add
+        (get_local $2)
+        (i32.const 1)
+       )
+       (get_local $3)
+      )
+      (if
+       (get_global $~exception)
+       (return)
+      )
+     )
+    )
+    (return)
+   )
+  )
+  (set_local $9
+   (i32.load offset=12
+    (get_local $0)
+   )
+  )
+  (set_local $10
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+  (set_local $11
+   (i32.load offset=4
+    (get_local $1)
+   )
+  )
+  (set_local $12
+   (block (result i32)
+    (set_local $8
+     (i32.load offset=8
+      (get_local $1)
+     )
+    )
+    (i32.store offset=8
+     (get_local $1)
+     (i32.add
+      (get_local $8)
+      (i32.const 1)
+     )
+    )
+    (get_local $8)
+   )
+  )
+  (set_local $13
+   (i32.mul
+    (get_local $12)
+    (get_local $9)
+   )
+  )
+  (call $~lib/array/Array<i32>#__set
+   (i32.load
+    (get_local $1)
+   )
+   (get_local $12)
+   (get_local $2)
+  )
+  (if
+   (get_global $~exception)
+   (return)
+  )
+  (block $break|1
+   (set_local $8
+    (i32.const 0)
+   )
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.eqz
+      (i32.lt_s
+       (get_local $8)
+       (get_local $9)
+      )
+     )
+    )
+    (block
+     (call $~lib/array/Array<i32>#__set
+      (get_local $11)
+      (i32.add
+       (get_local $13)
+       (get_local $8)
+      )
+      (call $~lib/array/Array<i32>#__get
+       (get_local $10)
+       (get_local $8)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (return)
+     )
+    )
+    (set_local $8
+     (i32.add
+      (get_local $8)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|1)
+   )
+  )
+ )
+ (func $~lib/internal/regexp/toLowerCase (; 58 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (if (result i32)
+    (tee_local $1
+     (if (result i32)
+      (tee_local $1
+       (i32.ge_s
+        (get_local $0)
+        (i32.const 65)
+       )
+      )
+      (i32.le_s
+       (get_local $0)
+       (i32.const 90)
+      )
+      (get_local $1)
+     )
+    )
+    (get_local $1)
+    (if (result i32)
+     (tee_local $1
+      (if (result i32)
+       (tee_local $1
+        (i32.ge_s
+         (get_local $0)
+         (i32.const 192)
+        )
+       )
+       (i32.le_s
+        (get_local $0)
+        (i32.const 222)
+       )
+       (get_local $1)
+      )
+     )
+     (i32.ne
+      (get_local $0)
+      (i32.const 215)
+     )
+     (get_local $1)
+    )
+   )
+   (return
+    (i32.add
+     (get_local $0)
+     (i32.const 32)
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/regexp/Matcher#matchesChar (; 59 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (if
+   (i32.eq
+    (get_local $1)
+    (get_local $2)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (if (result i32)
+   (tee_local $3
+    (i32.ne
+     (i32.and
+      (i32.load offset=4
+       (get_local $0)
+      )
+      (i32.const 2)
+     )
+     (i32.const 0)
+    )
+   )
+   (i32.eq
+    (call $~lib/internal/regexp/toLowerCase
+     (get_local $1)
+    )
+    (call $~lib/internal/regexp/toLowerCase
+     (get_local $2)
+    )
+   )
+   (get_local $3)
+  )
+ )
+ (func $~lib/internal/regexp/Matcher#inRanges (; 60 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.add
+    (i32.add
+     (get_local $2)
+     (i32.const 2)
+    )
+    (i32.shl
+     (call $~lib/array/Array<i32>#__get
+      (get_local $3)
+      (i32.add
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (i32.const 1)
+    )
+   )
+  )
+  (block $break|0
+   (set_local $5
+    (i32.add
+     (get_local $2)
+     (i32.const 2)
+    )
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $5)
+       (get_local $4)
+      )
+     )
+    )
+    (if
+     (if (result i32)
+      (tee_local $6
+       (i32.ge_s
+        (get_local $1)
+        (call $~lib/array/Array<i32>#__get
+         (get_local $3)
+         (get_local $5)
+        )
+       )
+      )
+      (i32.le_s
+       (get_local $1)
+       (call $~lib/array/Array<i32>#__get
+        (get_local $3)
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+      )
+      (get_local $6)
+     )
+     (return
+      (i32.const 1)
+     )
+    )
+    (set_local $5
+     (i32.add
+      (get_local $5)
+      (i32.const 2)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/internal/regexp/toUpperCase (; 61 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (if (result i32)
+    (tee_local $1
+     (if (result i32)
+      (tee_local $1
+       (i32.ge_s
+        (get_local $0)
+        (i32.const 97)
+       )
+      )
+      (i32.le_s
+       (get_local $0)
+       (i32.const 122)
+      )
+      (get_local $1)
+     )
+    )
+    (get_local $1)
+    (if (result i32)
+     (tee_local $1
+      (if (result i32)
+       (tee_local $1
+        (i32.ge_s
+         (get_local $0)
+         (i32.const 224)
+        )
+       )
+       (i32.le_s
+        (get_local $0)
+        (i32.const 254)
+       )
+       (get_local $1)
+      )
+     )
+     (i32.ne
+      (get_local $0)
+      (i32.const 247)
+     )
+     (get_local $1)
+    )
+   )
+   (return
+    (i32.sub
+     (get_local $0)
+     (i32.const 32)
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/regexp/Matcher#matchesClass (; 62 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (call $~lib/internal/regexp/Matcher#inRanges
+    (get_local $0)
+    (get_local $1)
+    (get_local $2)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (if
+   (i32.and
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.const 2)
+   )
+   (block
+    (set_local $3
+     (call $~lib/internal/regexp/toLowerCase
+      (get_local $1)
+     )
+    )
+    (if
+     (i32.ne
+      (get_local $3)
+      (get_local $1)
+     )
+     (return
+      (call $~lib/internal/regexp/Matcher#inRanges
+       (get_local $0)
+       (get_local $3)
+       (get_local $2)
+      )
+     )
+    )
+    (set_local $4
+     (call $~lib/internal/regexp/toUpperCase
+      (get_local $1)
+     )
+    )
+    (if
+     (i32.ne
+      (get_local $4)
+      (get_local $1)
+     )
+     (return
+      (call $~lib/internal/regexp/Matcher#inRanges
+       (get_local $0)
+       (get_local $4)
+       (get_local $2)
+      )
+     )
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/internal/regexp/Matcher#exec (; 63 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (local $13 i32)
+  (local $14 i32)
+  (local $15 i32)
+  (local $16 i32)
+  (local $17 i32)
+  (local $18 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=8
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.load
+    (get_local $3)
+   )
+  )
+  (set_local $5
+   (i32.load offset=12
+    (get_local $0)
+   )
+  )
+  (set_local $6
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+  (set_local $8
+   (block (result i32)
+    (set_local $7
+     (call $~lib/internal/regexp/ThreadList#constructor
+      (i32.const 0)
+      (block $~lib/array/Array<i32>#get:length|inlined.20 (result i32)
+       (i32.load offset=4
+        (get_local $2)
+       )
+      )
+      (get_local $5)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $7)
+   )
+  )
+  (set_local $9
+   (block (result i32)
+    (set_local $7
+     (call $~lib/internal/regexp/ThreadList#constructor
+      (i32.const 0)
+      (block $~lib/array/Array<i32>#get:length|inlined.21 (result i32)
+       (i32.load offset=4
+        (get_local $2)
+       )
+      )
+      (get_local $5)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $7)
+   )
+  )
+  (set_local $10
+   (i32.const 0)
+  )
+  (block $break|0
+   (set_local $7
+    (get_local $1)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.const 1)
+     )
+    )
+    (block
+     (if
+      (i32.eqz
+       (get_local $10)
+      )
+      (block
+       (block $break|1
+        (set_local $11
+         (i32.const 0)
+        )
+        (loop $repeat|1
+         (br_if $break|1
+          (i32.eqz
+           (i32.lt_s
+            (get_local $11)
+            (get_local $5)
+           )
+          )
+         )
+         (block
+          (call $~lib/array/Array<i32>#__set
+           (get_local $6)
+           (get_local $11)
+           (i32.const -1)
+          )
+          (if
+           (get_global $~exception)
+           (return
+            (i32.const 0)
+           )
+          )
+         )
+         (set_local $11
+          (i32.add
+           (get_local $11)
+           (i32.const 1)
+          )
+         )
+         (br $repeat|1)
+        )
+       )
+       (call $~lib/internal/regexp/Matcher#addThread
+        (get_local $0)
+        (get_local $8)
+        (i32.const 1)
+        (get_local $7)
+       )
+       (if
+        (get_global $~exception)
+        (return
+         (i32.const 0)
+        )
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.load offset=8
+         (get_local $8)
+        )
+       )
+       (br $break|0)
+      )
+     )
+     (set_local $11
+      (if (result i32)
+       (i32.lt_s
+        (get_local $7)
+        (get_local $4)
+       )
+       (call $~lib/string/String#charCodeAt
+        (get_local $3)
+        (get_local $7)
+       )
+       (i32.const -1)
+      )
+     )
+     (block $break|2
+      (block
+       (set_local $12
+        (i32.const 0)
+       )
+       (set_local $13
+        (i32.load offset=8
+         (get_local $8)
+        )
+       )
+      )
+      (loop $repeat|2
+       (br_if $break|2
+        (i32.eqz
+         (i32.lt_s
+          (get_local $12)
+          (get_local $13)
+         )
+        )
+       )
+       (block
+        (set_local $14
+         (call $~lib/array/Array<i32>#__get
+          (i32.load
+           (get_local $8)
+          )
+          (get_local $12)
+         )
+        )
+        (set_local $15
+         (i32.const -1)
+        )
+        (block $break|3
+         (block $case5|3
+          (block $case4|3
+           (block $case3|3
+            (block $case2|3
+             (block $case1|3
+              (block $case0|3
+               (set_local $16
+                (call $~lib/array/Array<i32>#__get
+                 (get_local $2)
+                 (get_local $14)
+                )
+               )
+               (br_if $case0|3
+                (i32.eq
+                 (get_local $16)
+                 (i32.const 0)
+                )
+               )
+               (br_if $case1|3
+                (i32.eq
+                 (get_local $16)
+                 (i32.const 1)
+                )
+               )
+               (br_if $case2|3
+                (i32.eq
+                 (get_local $16)
+                 (i32.const 2)
+                )
+               )
+               (br_if $case3|3
+                (i32.eq
+                 (get_local $16)
+                 (i32.const 3)
+                )
+               )
+               (br_if $case4|3
+                (i32.eq
+                 (get_local $16)
+                 (i32.const 4)
+                )
+               )
+               (br $case5|3)
+              )
+              (block
+               (set_local $10
+                (block (result i32)
+                 (set_local $16
+                  (call $~lib/array/Array<i32>#slice
+                   (i32.load offset=4
+                    (get_local $8)
+                   )
+                   (i32.mul
+                    (get_local $12)
+                    (get_local $5)
+                   )
+                   (i32.mul
+                    (i32.add
+                     (get_local $12)
+                     (i32.const 1)
+                    )
+                    (get_local $5)
+                   )
+                  )
+                 )
+                 (if
+                  (get_global $~exception)
+                  (return
+                   (i32.const 0)
+                  )
+                 )
+                 (get_local $16)
+                )
+               )
+               (set_local $13
+                (get_local $12)
+               )
+               (br $break|3)
+              )
+             )
+             (block
+              (if
+               (if (result i32)
+                (tee_local $16
+                 (i32.ge_s
+                  (get_local $11)
+                  (i32.const 0)
+                 )
+                )
+                (call $~lib/internal/regexp/Matcher#matchesChar
+                 (get_local $0)
+                 (get_local $11)
+                 (call $~lib/array/Array<i32>#__get
+                  (get_local $2)
+                  (i32.add
+                   (get_local $14)
+                   (i32.const 1)
+                  )
+                 )
+                )
+                (get_local $16)
+               )
+               (set_local $15
+                (i32.add
+                 (get_local $14)
+                 (i32.const 2)
+                )
+               )
+              )
+              (br $break|3)
+             )
+            )
+            (block
+             (if
+              (if (result i32)
+               (tee_local $16
+                (i32.ge_s
+                 (get_local $11)
+                 (i32.const 0)
+                )
+               )
+               (i32.eqz
+                (call $~lib/internal/regexp/isLineTerminator
+                 (get_local $11)
+                )
+               )
+               (get_local $16)
+              )
+              (set_local $15
+               (i32.add
+                (get_local $14)
+                (i32.const 1)
+               )
+              )
+             )
+             (br $break|3)
+            )
+           )
+           (block
+            (if
+             (if (result i32)
+              (tee_local $16
+               (i32.ge_s
+                (get_local $11)
+                (i32.const 0)
+               )
+              )
+              (call $~lib/internal/regexp/Matcher#matchesClass
+               (get_local $0)
+               (get_local $11)
+               (get_local $14)
+              )
+              (get_local $16)
+             )
+             (set_local $15
+              (i32.add
+               (i32.add
+                (get_local $14)
+                (i32.const 2)
+               )
+               (i32.shl
+                (call $~lib/array/Array<i32>#__get
+                 (get_local $2)
+                 (i32.add
+                  (get_local $14)
+                  (i32.const 1)
+                 )
+                )
+                (i32.const 1)
+               )
+              )
+             )
+            )
+            (br $break|3)
+           )
+          )
+          (block
+           (if
+            (if (result i32)
+             (tee_local $16
+              (i32.ge_s
+               (get_local $11)
+               (i32.const 0)
+              )
+             )
+             (i32.eqz
+              (call $~lib/internal/regexp/Matcher#matchesClass
+               (get_local $0)
+               (get_local $11)
+               (get_local $14)
+              )
+             )
+             (get_local $16)
+            )
+            (set_local $15
+             (i32.add
+              (i32.add
+               (get_local $14)
+               (i32.const 2)
+              )
+              (i32.shl
+               (call $~lib/array/Array<i32>#__get
+                (get_local $2)
+                (i32.add
+                 (get_local $14)
+                 (i32.const 1)
+                )
+               )
+               (i32.const 1)
+              )
+             )
+            )
+           )
+           (br $break|3)
+          )
+         )
+         (unreachable)
+        )
+        (if
+         (i32.ge_s
+          (get_local $15)
+          (i32.const 0)
+         )
+         (block
+          (set_local $16
+           (i32.load offset=4
+            (get_local $8)
+           )
+          )
+          (set_local $17
+           (i32.mul
+            (get_local $12)
+            (get_local $5)
+           )
+          )
+          (block $break|4
+           (set_local $18
+            (i32.const 0)
+           )
+           (loop $repeat|4
+            (br_if $break|4
+             (i32.eqz
+              (i32.lt_s
+               (get_local $18)
+               (get_local $5)
+              )
+             )
+            )
+            (block
+             (call $~lib/array/Array<i32>#__set
+              (get_local $6)
+              (get_local $18)
+              (call $~lib/array/Array<i32>#__get
+               (get_local $16)
+               (i32.add
+                (get_local $17)
+                (get_local $18)
+               )
+              )
+             )
+             (if
+              (get_global $~exception)
+              (return
+               (i32.const 0)
+              )
+             )
+            )
+            (set_local $18
+             (i32.add
+              (get_local $18)
+              (i32.const 1)
+             )
+            )
+            (br $repeat|4)
+           )
+          )
+          (call $~lib/internal/regexp/Matcher#addThread
+           (get_local $0)
+           (get_local $9)
+           (get_local $15)
+           (i32.add
+            (get_local $7)
+            (i32.const 1)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (return
+            (i32.const 0)
+           )
+          )
+         )
+        )
+       )
+       (set_local $12
+        (i32.add
+         (get_local $12)
+         (i32.const 1)
+        )
+       )
+       (br $repeat|2)
+      )
+     )
+     (if
+      (i32.ge_s
+       (get_local $7)
+       (get_local $4)
+      )
+      (br $break|0)
+     )
+     (set_local $13
+      (get_local $8)
+     )
+     (set_local $8
+      (get_local $9)
+     )
+     (set_local $9
+      (get_local $13)
+     )
+     (i32.store offset=8
+      (get_local $9)
+      (i32.const 0)
+     )
+    )
+    (set_local $7
+     (i32.add
+      (get_local $7)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $10)
+ )
+ (func $~lib/regexp/RegExpExecArray#constructor (; 64 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (i32.store
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $3
+        (call $~lib/memory/memory.allocate
+         (i32.const 12)
+        )
+       )
+       (i32.store
+        (get_local $3)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $3)
+        (i32.const 0)
+       )
+       (i32.store offset=8
+        (get_local $3)
+        (i32.const 0)
+       )
+       (get_local $3)
+      )
+     )
+    )
+   )
+   (get_local $1)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (call $~lib/array/Array<i32>#__get
+    (get_local $2)
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $2)
+  )
+  (get_local $0)
+ )
+ (func $~lib/regexp/RegExp#exec (; 65 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (set_local $2
+   (call $~lib/regexp/RegExp#get:global
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (if (result i32)
+    (get_local $2)
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.gt_u
+    (get_local $3)
+    (i32.load
+     (get_local $1)
+    )
+   )
+   (block
+    (i32.store offset=4
+     (get_local $0)
+     (i32.const 0)
+    )
+    (return
+     (i32.const 0)
+    )
+   )
+  )
+  (set_local $5
+   (block (result i32)
+    (set_local $4
+     (call $~lib/internal/regexp/Matcher#constructor
+      (i32.const 0)
+      (i32.load offset=12
+       (get_local $0)
+      )
+      (i32.load offset=8
+       (get_local $0)
+      )
+      (get_local $1)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $4)
+   )
+  )
+  (set_local $6
+   (block (result i32)
+    (set_local $4
+     (call $~lib/internal/regexp/Matcher#exec
+      (get_local $5)
+      (get_local $3)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $4)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $6)
+   )
+   (block
+    (if
+     (get_local $2)
+     (i32.store offset=4
+      (get_local $0)
+      (i32.const 0)
+     )
+    )
+    (return
+     (i32.const 0)
+    )
+   )
+  )
+  (set_local $7
+   (get_local $6)
+  )
+  (if
+   (get_local $2)
+   (i32.store offset=4
+    (get_local $0)
+    (call $~lib/array/Array<i32>#__get
+     (get_local $7)
+     (i32.const 1)
+    )
+   )
+  )
+  (call $~lib/regexp/RegExpExecArray#constructor
+   (i32.const 0)
+   (get_local $1)
+   (get_local $7)
+  )
+ )
+ (func $~lib/regexp/RegExp#test (; 66 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (i32.ne
+   (block (result i32)
+    (set_local $2
+     (call $~lib/regexp/RegExp#exec
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $2)
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/regexp/RegExpExecArray#get:length (; 67 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.shr_s
+   (block $~lib/array/Array<i32>#get:length|inlined.22 (result i32)
+    (set_local $1
+     (i32.load offset=8
+      (get_local $0)
+     )
+    )
+    (i32.load offset=4
+     (get_local $1)
+    )
+   )
+   (i32.const 1)
+  )
+ )
+ (func $~lib/regexp/RegExpExecArray#start (; 68 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (call $~lib/regexp/RegExpExecArray#get:length
+     (get_local $0)
+    )
+   )
+   (return
+    (i32.const -1)
+   )
+  )
+  (call $~lib/array/Array<i32>#__get
+   (i32.load offset=8
+    (get_local $0)
+   )
+   (i32.shl
+    (get_local $1)
+    (i32.const 1)
+   )
+  )
+ )
+ (func $~lib/regexp/RegExpExecArray#end (; 69 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (call $~lib/regexp/RegExpExecArray#get:length
+     (get_local $0)
+    )
+   )
+   (return
+    (i32.const -1)
+   )
+  )
+  (call $~lib/array/Array<i32>#__get
+   (i32.load offset=8
+    (get_local $0)
+   )
+   (i32.add
+    (i32.shl
+     (get_local $1)
+     (i32.const 1)
+    )
+    (i32.const 1)
+   )
+  )
+ )
+ (func $~lib/string/String#substring (; 70 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (if
+   (i32.eqz
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 168)
+     (i32.const 304)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $6
+   (select
+    (tee_local $4
+     (select
+      (tee_local $4
+       (get_local $1)
+      )
+      (tee_local $5
+       (i32.const 0)
+      )
+      (i32.gt_s
+       (get_local $4)
+       (get_local $5)
+      )
+     )
+    )
+    (tee_local $5
+     (get_local $3)
+    )
+    (i32.lt_s
+     (get_local $4)
+     (get_local $5)
+    )
+   )
+  )
+  (set_local $7
+   (select
+    (tee_local $4
+     (select
+      (tee_local $4
+       (get_local $2)
+      )
+      (tee_local $5
+       (i32.const 0)
+      )
+      (i32.gt_s
+       (get_local $4)
+       (get_local $5)
+      )
+     )
+    )
+    (tee_local $5
+     (get_local $3)
+    )
+    (i32.lt_s
+     (get_local $4)
+     (get_local $5)
+    )
+   )
+  )
+  (set_local $8
+   (select
+    (tee_local $4
+     (get_local $6)
+    )
+    (tee_local $5
+     (get_local $7)
+    )
+    (i32.lt_s
+     (get_local $4)
+     (get_local $5)
+    )
+   )
+  )
+  (set_local $9
+   (select
+    (tee_local $4
+     (get_local $6)
+    )
+    (tee_local $5
+     (get_local $7)
+    )
+    (i32.gt_s
+     (get_local $4)
+     (get_local $5)
+    )
+   )
+  )
+  (set_local $3
+   (i32.sub
+    (get_local $9)
+    (get_local $8)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $3)
+   )
+   (return
+    (i32.const 24)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $4
+     (i32.eqz
+      (get_local $8)
+     )
+    )
+    (i32.eq
+     (get_local $9)
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_local $4)
+   )
+   (return
+    (get_local $0)
+   )
+  )
+  (set_local $10
+   (call $~lib/internal/string/allocateUnsafe
+    (get_local $3)
+   )
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (get_local $10)
+   (i32.const 0)
+   (get_local $0)
+   (get_local $8)
+   (get_local $3)
+  )
+  (get_local $10)
+ )
+ (func $~lib/regexp/RegExpExecArray#__get (; 71 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (call $~lib/regexp/RegExpExecArray#start
+    (get_local $0)
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.lt_s
+    (get_local $2)
+    (i32.const 0)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (call $~lib/string/String#substring
+   (i32.load
+    (get_local $0)
+   )
+   (get_local $2)
+   (call $~lib/regexp/RegExpExecArray#end
+    (get_local $0)
+    (get_local $1)
+   )
+  )
+ )
+ (func $std/regexp/throwsSyntaxError (; 72 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (block $try|0
+   (block $catch|0
+    (drop
+     (block (result i32)
+      (set_local $2
+       (call $~lib/regexp/RegExp#constructor
+        (i32.const 0)
+        (get_local $0)
+        (get_local $1)
+        (i32.const 0)
+       )
+      )
+      (if
+       (get_global $~exception)
+       (br $catch|0)
+      )
+      (get_local $2)
+     )
+    )
+    (br $try|0)
+   )
+   (set_local $2
+    (get_global $~exception)
+   )
+   (set_global $~exception
+    (i32.const 0)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (i32.const 0)
+ )
+ (func $std/regexp/lastIndexOfFreshLiteral (; 73 ;) (type $i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (set_local $1
+   (block (result i32)
+    (set_local $0
+     (call $~lib/regexp/RegExp#constructor
+      (i32.const 0)
+      (i32.const 2176)
+      (i32.const 1704)
+      (i32.const 10200)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $0)
+   )
+  )
+  (drop
+   (block (result i32)
+    (set_local $0
+     (call $~lib/regexp/RegExp#test
+      (get_local $1)
+      (i32.const 2176)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $0)
+   )
+  )
+  (i32.load offset=4
+   (get_local $1)
+  )
+ )
+ (func $start (; 74 ;) (type $v)
+  (local $0 i32)
+  (block $uncaught|start
+   (set_global $~lib/allocator/arena/startOffset
+    (i32.and
+     (i32.add
+      (get_global $HEAP_BASE)
+      (get_global $~lib/internal/allocator/AL_MASK)
+     )
+     (i32.xor
+      (get_global $~lib/internal/allocator/AL_MASK)
+      (i32.const -1)
+     )
+    )
+   )
+   (set_global $~lib/allocator/arena/offset
+    (get_global $~lib/allocator/arena/startOffset)
+   )
+   (set_global $std/regexp/re
+    (block (result i32)
+     (set_local $0
+      (call $~lib/regexp/RegExp#constructor
+       (i32.const 0)
+       (i32.const 8)
+       (i32.const 24)
+       (i32.const 160)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (br $uncaught|start)
+     )
+     (get_local $0)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (i32.load
+       (get_global $std/regexp/re)
+      )
+      (i32.const 8)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 6)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/regexp/RegExp#get:flags
+       (get_global $std/regexp/re)
+      )
+      (i32.const 24)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 7)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (if (result i32)
+      (tee_local $0
+       (if (result i32)
+        (tee_local $0
+         (i32.eqz
+          (call $~lib/regexp/RegExp#get:global
+           (get_global $std/regexp/re)
+          )
+         )
+        )
+        (i32.eqz
+         (call $~lib/regexp/RegExp#get:ignoreCase
+          (get_global $std/regexp/re)
+         )
+        )
+        (get_local $0)
+       )
+      )
+      (i32.eqz
+       (call $~lib/regexp/RegExp#get:multiline
+        (get_global $std/regexp/re)
+       )
+      )
+      (get_local $0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 8)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/regexp/RegExp#toString
+       (get_global $std/regexp/re)
+      )
+      (i32.const 1736)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 9)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (get_global $std/regexp/re)
+         (i32.const 1760)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 10)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eqz
+      (i32.and
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#test
+          (get_global $std/regexp/re)
+          (i32.const 1840)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 11)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#exec
+         (get_global $std/regexp/re)
+         (i32.const 1840)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 13)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $std/regexp/match
+    (block (result i32)
+     (set_local $0
+      (call $~lib/regexp/RegExp#exec
+       (get_global $std/regexp/re)
+       (i32.const 1760)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (br $uncaught|start)
+     )
+     (get_local $0)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_global $std/regexp/match)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 15)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (i32.load
+       (get_global $std/regexp/match)
+      )
+      (i32.const 1760)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 16)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/regexp/RegExpExecArray#get:length
+       (get_global $std/regexp/match)
+      )
+      (i32.const 2)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 17)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/regexp/RegExpExecArray#__get
+       (get_global $std/regexp/match)
+       (i32.const 0)
+      )
+      (i32.const 1856)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 18)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/regexp/RegExpExecArray#__get
+       (get_global $std/regexp/match)
+       (i32.const 1)
+      )
+      (i32.const 1872)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 19)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/regexp/RegExpExecArray#start
+       (get_global $std/regexp/match)
+       (i32.const 1)
+      )
+      (i32.const 2)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 20)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/regexp/RegExpExecArray#end
+       (get_global $std/regexp/match)
+       (i32.const 1)
+      )
+      (i32.const 5)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 21)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/regexp/RegExpExecArray#__get
+       (get_global $std/regexp/match)
+       (i32.const 2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 22)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $std/regexp/ctor
+    (block (result i32)
+     (set_local $0
+      (call $~lib/regexp/RegExp#constructor
+       (i32.const 0)
+       (i32.const 1888)
+       (i32.const 1704)
+       (i32.const 0)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (br $uncaught|start)
+     )
+     (get_local $0)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/regexp/RegExp#get:global
+      (get_global $std/regexp/ctor)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 27)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/regexp/RegExp#toString
+       (get_global $std/regexp/ctor)
+      )
+      (i32.const 1920)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 28)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $std/regexp/match
+    (block (result i32)
+     (set_local $0
+      (call $~lib/regexp/RegExp#exec
+       (get_global $std/regexp/ctor)
+       (i32.const 1960)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (br $uncaught|start)
+     )
+     (get_local $0)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_global $std/regexp/match)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 30)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/regexp/RegExpExecArray#__get
+       (get_global $std/regexp/match)
+       (i32.const 1)
+      )
+      (i32.const 1984)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 31)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/regexp/RegExpExecArray#__get
+       (get_global $std/regexp/match)
+       (i32.const 2)
+      )
+      (i32.const 1992)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 32)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_global $std/regexp/ctor)
+      )
+      (i32.const 3)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 33)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $std/regexp/match
+    (block (result i32)
+     (set_local $0
+      (call $~lib/regexp/RegExp#exec
+       (get_global $std/regexp/ctor)
+       (i32.const 1960)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (br $uncaught|start)
+     )
+     (get_local $0)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_global $std/regexp/match)
+      )
+      (i32.const 5)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 35)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/regexp/RegExpExecArray#__get
+       (get_global $std/regexp/match)
+       (i32.const 1)
+      )
+      (i32.const 2000)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 36)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/regexp/RegExpExecArray#__get
+       (get_global $std/regexp/match)
+       (i32.const 2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 37)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/regexp/RegExpExecArray#start
+       (get_global $std/regexp/match)
+       (i32.const 2)
+      )
+      (i32.const -1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 38)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_global $std/regexp/ctor)
+      )
+      (i32.const 8)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 39)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#exec
+         (get_global $std/regexp/ctor)
+         (i32.const 1960)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 40)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_global $std/regexp/ctor)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 41)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $std/regexp/empty
+    (block (result i32)
+     (set_local $0
+      (call $~lib/regexp/RegExp#constructor
+       (i32.const 0)
+       (i32.const 24)
+       (i32.const 24)
+       (i32.const 0)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (br $uncaught|start)
+     )
+     (get_local $0)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (i32.load
+       (get_global $std/regexp/empty)
+      )
+      (i32.const 1616)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 44)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (get_global $std/regexp/empty)
+         (i32.const 2008)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 45)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $std/regexp/throwsSyntaxError
+      (i32.const 2032)
+      (i32.const 24)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 56)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $std/regexp/throwsSyntaxError
+      (i32.const 2048)
+      (i32.const 24)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 57)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $std/regexp/throwsSyntaxError
+      (i32.const 2056)
+      (i32.const 24)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 58)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $std/regexp/throwsSyntaxError
+      (i32.const 2064)
+      (i32.const 24)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 59)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $std/regexp/throwsSyntaxError
+      (i32.const 2072)
+      (i32.const 24)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 60)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $std/regexp/throwsSyntaxError
+      (i32.const 2088)
+      (i32.const 24)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 61)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $std/regexp/throwsSyntaxError
+      (i32.const 2104)
+      (i32.const 24)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 62)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $std/regexp/throwsSyntaxError
+      (i32.const 2120)
+      (i32.const 24)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 63)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $std/regexp/throwsSyntaxError
+      (i32.const 2136)
+      (i32.const 24)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 64)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $std/regexp/throwsSyntaxError
+      (i32.const 2160)
+      (i32.const 24)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 65)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $std/regexp/throwsSyntaxError
+      (i32.const 2176)
+      (i32.const 2184)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 66)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $std/regexp/throwsSyntaxError
+      (i32.const 2176)
+      (i32.const 2192)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 67)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eqz
+      (call $std/regexp/throwsSyntaxError
+       (i32.const 2200)
+       (i32.const 24)
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 68)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 2216)
+            (i32.const 24)
+            (i32.const 2368)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 2376)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 72)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eqz
+      (i32.and
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#test
+          (block (result i32)
+           (set_local $0
+            (call $~lib/regexp/RegExp#constructor
+             (i32.const 0)
+             (i32.const 2216)
+             (i32.const 24)
+             (i32.const 2520)
+            )
+           )
+           (if
+            (get_global $~exception)
+            (br $uncaught|start)
+           )
+           (get_local $0)
+          )
+          (i32.const 2528)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 73)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 2544)
+            (i32.const 24)
+            (i32.const 2696)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 2704)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 74)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eqz
+      (i32.and
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#test
+          (block (result i32)
+           (set_local $0
+            (call $~lib/regexp/RegExp#constructor
+             (i32.const 0)
+             (i32.const 2544)
+             (i32.const 24)
+             (i32.const 2848)
+            )
+           )
+           (if
+            (get_global $~exception)
+            (br $uncaught|start)
+           )
+           (get_local $0)
+          )
+          (i32.const 2856)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 75)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 2872)
+            (i32.const 24)
+            (i32.const 3416)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 3424)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 76)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 3440)
+            (i32.const 24)
+            (i32.const 3592)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 3600)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 77)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 3616)
+            (i32.const 24)
+            (i32.const 3768)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 3776)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 78)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 3792)
+            (i32.const 24)
+            (i32.const 3944)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 3952)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 79)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 3968)
+            (i32.const 24)
+            (i32.const 4120)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 3952)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 80)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 4128)
+            (i32.const 24)
+            (i32.const 4208)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 3776)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 81)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eqz
+      (i32.and
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#test
+          (block (result i32)
+           (set_local $0
+            (call $~lib/regexp/RegExp#constructor
+             (i32.const 0)
+             (i32.const 4128)
+             (i32.const 24)
+             (i32.const 4280)
+            )
+           )
+           (if
+            (get_global $~exception)
+            (br $uncaught|start)
+           )
+           (get_local $0)
+          )
+          (i32.const 4288)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 82)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 4304)
+            (i32.const 24)
+            (i32.const 4392)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 4400)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 83)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 4416)
+            (i32.const 24)
+            (i32.const 4504)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 4512)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 84)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 4528)
+            (i32.const 24)
+            (i32.const 4608)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 4616)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 85)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 4624)
+            (i32.const 24)
+            (i32.const 4768)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 24)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 89)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 4776)
+            (i32.const 24)
+            (i32.const 4856)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 4864)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 90)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eqz
+      (i32.and
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#test
+          (block (result i32)
+           (set_local $0
+            (call $~lib/regexp/RegExp#constructor
+             (i32.const 0)
+             (i32.const 4776)
+             (i32.const 24)
+             (i32.const 4944)
+            )
+           )
+           (if
+            (get_global $~exception)
+            (br $uncaught|start)
+           )
+           (get_local $0)
+          )
+          (i32.const 24)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 91)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 4952)
+            (i32.const 24)
+            (i32.const 5096)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 5104)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 92)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 4952)
+            (i32.const 24)
+            (i32.const 5240)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 3776)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 93)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eqz
+      (i32.and
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#test
+          (block (result i32)
+           (set_local $0
+            (call $~lib/regexp/RegExp#constructor
+             (i32.const 0)
+             (i32.const 4952)
+             (i32.const 24)
+             (i32.const 5376)
+            )
+           )
+           (if
+            (get_global $~exception)
+            (br $uncaught|start)
+           )
+           (get_local $0)
+          )
+          (i32.const 5384)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 94)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 5400)
+            (i32.const 24)
+            (i32.const 5480)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 4864)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 95)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eqz
+      (i32.and
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#test
+          (block (result i32)
+           (set_local $0
+            (call $~lib/regexp/RegExp#constructor
+             (i32.const 0)
+             (i32.const 5400)
+             (i32.const 24)
+             (i32.const 5552)
+            )
+           )
+           (if
+            (get_global $~exception)
+            (br $uncaught|start)
+           )
+           (get_local $0)
+          )
+          (i32.const 5560)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 96)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 5568)
+            (i32.const 24)
+            (i32.const 5720)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 5728)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 97)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eqz
+      (i32.and
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#test
+          (block (result i32)
+           (set_local $0
+            (call $~lib/regexp/RegExp#constructor
+             (i32.const 0)
+             (i32.const 5568)
+             (i32.const 24)
+             (i32.const 5872)
+            )
+           )
+           (if
+            (get_global $~exception)
+            (br $uncaught|start)
+           )
+           (get_local $0)
+          )
+          (i32.const 2176)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 98)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 5880)
+            (i32.const 24)
+            (i32.const 6032)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 5560)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 99)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eqz
+      (i32.and
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#test
+          (block (result i32)
+           (set_local $0
+            (call $~lib/regexp/RegExp#constructor
+             (i32.const 0)
+             (i32.const 5880)
+             (i32.const 24)
+             (i32.const 6168)
+            )
+           )
+           (if
+            (get_global $~exception)
+            (br $uncaught|start)
+           )
+           (get_local $0)
+          )
+          (i32.const 4864)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 100)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 6176)
+            (i32.const 24)
+            (i32.const 6256)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 6264)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 101)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 6272)
+            (i32.const 24)
+            (i32.const 6432)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 6440)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 102)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 6456)
+            (i32.const 24)
+            (i32.const 6608)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 4864)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 103)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $std/regexp/match
+    (block (result i32)
+     (set_local $0
+      (call $~lib/regexp/RegExp#exec
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#constructor
+          (i32.const 0)
+          (i32.const 6616)
+          (i32.const 24)
+          (i32.const 6760)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 6768)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (br $uncaught|start)
+     )
+     (get_local $0)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/regexp/RegExpExecArray#__get
+       (get_global $std/regexp/match)
+       (i32.const 1)
+      )
+      (i32.const 6784)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 106)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $std/regexp/match
+    (block (result i32)
+     (set_local $0
+      (call $~lib/regexp/RegExp#exec
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#constructor
+          (i32.const 0)
+          (i32.const 6800)
+          (i32.const 24)
+          (i32.const 6952)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 6768)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (br $uncaught|start)
+     )
+     (get_local $0)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/regexp/RegExpExecArray#__get
+       (get_global $std/regexp/match)
+       (i32.const 1)
+      )
+      (i32.const 2176)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 108)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $std/regexp/match
+    (block (result i32)
+     (set_local $0
+      (call $~lib/regexp/RegExp#exec
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#constructor
+          (i32.const 0)
+          (i32.const 6960)
+          (i32.const 24)
+          (i32.const 7112)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 4864)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (br $uncaught|start)
+     )
+     (get_local $0)
+    )
+   )
+   (if
+    (i32.eqz
+     (if (result i32)
+      (tee_local $0
+       (call $~lib/string/String.__eq
+        (call $~lib/regexp/RegExpExecArray#__get
+         (get_global $std/regexp/match)
+         (i32.const 1)
+        )
+        (i32.const 2176)
+       )
+      )
+      (call $~lib/string/String.__eq
+       (call $~lib/regexp/RegExpExecArray#__get
+        (get_global $std/regexp/match)
+        (i32.const 2)
+       )
+       (i32.const 5560)
+      )
+      (get_local $0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 110)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $std/regexp/match
+    (block (result i32)
+     (set_local $0
+      (call $~lib/regexp/RegExp#exec
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#constructor
+          (i32.const 0)
+          (i32.const 7120)
+          (i32.const 24)
+          (i32.const 7272)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 7280)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (br $uncaught|start)
+     )
+     (get_local $0)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/regexp/RegExpExecArray#__get
+       (get_global $std/regexp/match)
+       (i32.const 0)
+      )
+      (i32.const 5560)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 112)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $std/regexp/match
+    (block (result i32)
+     (set_local $0
+      (call $~lib/regexp/RegExp#exec
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#constructor
+          (i32.const 0)
+          (i32.const 7296)
+          (i32.const 24)
+          (i32.const 7584)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 7592)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (br $uncaught|start)
+     )
+     (get_local $0)
+    )
+   )
+   (if
+    (i32.eqz
+     (if (result i32)
+      (tee_local $0
+       (if (result i32)
+        (tee_local $0
+         (i32.eq
+          (i32.load offset=4
+           (get_global $std/regexp/match)
+          )
+          (i32.const 3)
+         )
+        )
+        (call $~lib/string/String.__eq
+         (call $~lib/regexp/RegExpExecArray#__get
+          (get_global $std/regexp/match)
+          (i32.const 0)
+         )
+         (i32.const 7616)
+        )
+        (get_local $0)
+       )
+      )
+      (call $~lib/string/String.__eq
+       (call $~lib/regexp/RegExpExecArray#__get
+        (get_global $std/regexp/match)
+        (i32.const 1)
+       )
+       (i32.const 7632)
+      )
+      (get_local $0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 117)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $std/regexp/match
+    (block (result i32)
+     (set_local $0
+      (call $~lib/regexp/RegExp#exec
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#constructor
+          (i32.const 0)
+          (i32.const 7648)
+          (i32.const 24)
+          (i32.const 7792)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 7800)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (br $uncaught|start)
+     )
+     (get_local $0)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/regexp/RegExpExecArray#__get
+       (get_global $std/regexp/match)
+       (i32.const 0)
+      )
+      (i32.const 2176)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 119)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $std/regexp/match
+    (block (result i32)
+     (set_local $0
+      (call $~lib/regexp/RegExp#exec
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#constructor
+          (i32.const 0)
+          (i32.const 7808)
+          (i32.const 24)
+          (i32.const 7960)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 7968)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (br $uncaught|start)
+     )
+     (get_local $0)
+    )
+   )
+   (if
+    (i32.eqz
+     (if (result i32)
+      (tee_local $0
+       (i32.eq
+        (call $~lib/regexp/RegExpExecArray#__get
+         (get_global $std/regexp/match)
+         (i32.const 1)
+        )
+        (i32.const 0)
+       )
+      )
+      (call $~lib/string/String.__eq
+       (call $~lib/regexp/RegExpExecArray#__get
+        (get_global $std/regexp/match)
+        (i32.const 2)
+       )
+       (i32.const 7968)
+      )
+      (get_local $0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 121)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $std/regexp/match
+    (block (result i32)
+     (set_local $0
+      (call $~lib/regexp/RegExp#exec
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#constructor
+          (i32.const 0)
+          (i32.const 7976)
+          (i32.const 24)
+          (i32.const 8128)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 8136)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (br $uncaught|start)
+     )
+     (get_local $0)
+    )
+   )
+   (if
+    (i32.eqz
+     (if (result i32)
+      (tee_local $0
+       (call $~lib/string/String.__eq
+        (call $~lib/regexp/RegExpExecArray#__get
+         (get_global $std/regexp/match)
+         (i32.const 0)
+        )
+        (i32.const 8136)
+       )
+      )
+      (call $~lib/string/String.__eq
+       (call $~lib/regexp/RegExpExecArray#__get
+        (get_global $std/regexp/match)
+        (i32.const 1)
+       )
+       (i32.const 2192)
+      )
+      (get_local $0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 123)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 8144)
+            (i32.const 24)
+            (i32.const 8296)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 7968)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 124)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 8304)
+            (i32.const 24)
+            (i32.const 8384)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 3776)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 128)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eqz
+      (i32.and
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#test
+          (block (result i32)
+           (set_local $0
+            (call $~lib/regexp/RegExp#constructor
+             (i32.const 0)
+             (i32.const 8392)
+             (i32.const 24)
+             (i32.const 8472)
+            )
+           )
+           (if
+            (get_global $~exception)
+            (br $uncaught|start)
+           )
+           (get_local $0)
+          )
+          (i32.const 3776)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 129)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eqz
+      (i32.and
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#test
+          (block (result i32)
+           (set_local $0
+            (call $~lib/regexp/RegExp#constructor
+             (i32.const 0)
+             (i32.const 8480)
+             (i32.const 24)
+             (i32.const 8560)
+            )
+           )
+           (if
+            (get_global $~exception)
+            (br $uncaught|start)
+           )
+           (get_local $0)
+          )
+          (i32.const 3776)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 130)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eqz
+      (i32.and
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#test
+          (block (result i32)
+           (set_local $0
+            (call $~lib/regexp/RegExp#constructor
+             (i32.const 0)
+             (i32.const 8568)
+             (i32.const 24)
+             (i32.const 8648)
+            )
+           )
+           (if
+            (get_global $~exception)
+            (br $uncaught|start)
+           )
+           (get_local $0)
+          )
+          (i32.const 8656)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 131)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 8568)
+            (i32.const 1720)
+            (i32.const 8736)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 8656)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 132)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 8744)
+            (i32.const 24)
+            (i32.const 8832)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 8840)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 133)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eqz
+      (i32.and
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#test
+          (block (result i32)
+           (set_local $0
+            (call $~lib/regexp/RegExp#constructor
+             (i32.const 0)
+             (i32.const 8744)
+             (i32.const 24)
+             (i32.const 8928)
+            )
+           )
+           (if
+            (get_global $~exception)
+            (br $uncaught|start)
+           )
+           (get_local $0)
+          )
+          (i32.const 8936)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 134)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 8968)
+            (i32.const 24)
+            (i32.const 9056)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 8936)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 135)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 9064)
+            (i32.const 1712)
+            (i32.const 9208)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 9216)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 139)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 9232)
+            (i32.const 1712)
+            (i32.const 9312)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 9320)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 140)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 9336)
+            (i32.const 1712)
+            (i32.const 9416)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 3776)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 141)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (block (result i32)
+          (set_local $0
+           (call $~lib/regexp/RegExp#constructor
+            (i32.const 0)
+            (i32.const 9424)
+            (i32.const 1712)
+            (i32.const 9496)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (br $uncaught|start)
+          )
+          (get_local $0)
+         )
+         (i32.const 9504)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 142)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eqz
+      (i32.and
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#test
+          (block (result i32)
+           (set_local $0
+            (call $~lib/regexp/RegExp#constructor
+             (i32.const 0)
+             (i32.const 9064)
+             (i32.const 24)
+             (i32.const 9640)
+            )
+           )
+           (if
+            (get_global $~exception)
+            (br $uncaught|start)
+           )
+           (get_local $0)
+          )
+          (i32.const 9648)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 143)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $std/regexp/global
+    (block (result i32)
+     (set_local $0
+      (call $~lib/regexp/RegExp#constructor
+       (i32.const 0)
+       (i32.const 9664)
+       (i32.const 1704)
+       (i32.const 9736)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (br $uncaught|start)
+     )
+     (get_local $0)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (get_global $std/regexp/global)
+         (i32.const 9744)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 146)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_global $std/regexp/global)
+      )
+      (i32.const 2)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 147)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.and
+      (block (result i32)
+       (set_local $0
+        (call $~lib/regexp/RegExp#test
+         (get_global $std/regexp/global)
+         (i32.const 9744)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 148)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_global $std/regexp/global)
+      )
+      (i32.const 3)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 149)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eqz
+      (i32.and
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#test
+          (get_global $std/regexp/global)
+          (i32.const 9744)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 150)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_global $std/regexp/global)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 151)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/regexp/RegExp#get:flags
+       (block (result i32)
+        (set_local $0
+         (call $~lib/regexp/RegExp#constructor
+          (i32.const 0)
+          (i32.const 2192)
+          (i32.const 9760)
+          (i32.const 9912)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+      )
+      (i32.const 9760)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 152)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $std/regexp/multi
+    (block (result i32)
+     (set_local $0
+      (call $~lib/regexp/RegExp#constructor
+       (i32.const 0)
+       (i32.const 9920)
+       (i32.const 9936)
+       (i32.const 10072)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (br $uncaught|start)
+     )
+     (get_local $0)
+    )
+   )
+   (set_global $std/regexp/match
+    (block (result i32)
+     (set_local $0
+      (call $~lib/regexp/RegExp#exec
+       (get_global $std/regexp/multi)
+       (i32.const 10080)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (br $uncaught|start)
+     )
+     (get_local $0)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/regexp/RegExpExecArray#__get
+       (get_global $std/regexp/match)
+       (i32.const 0)
+      )
+      (i32.const 10104)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 156)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $std/regexp/match
+    (block (result i32)
+     (set_local $0
+      (call $~lib/regexp/RegExp#exec
+       (get_global $std/regexp/multi)
+       (i32.const 10080)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (br $uncaught|start)
+     )
+     (get_local $0)
+    )
+   )
+   (if
+    (i32.eqz
+     (if (result i32)
+      (tee_local $0
+       (call $~lib/string/String.__eq
+        (call $~lib/regexp/RegExpExecArray#__get
+         (get_global $std/regexp/match)
+         (i32.const 0)
+        )
+        (i32.const 10120)
+       )
+      )
+      (i32.eq
+       (i32.load offset=4
+        (get_global $std/regexp/match)
+       )
+       (i32.const 4)
+      )
+      (get_local $0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 158)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (block (result i32)
+       (set_local $0
+        (call $std/regexp/lastIndexOfFreshLiteral)
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 167)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (block (result i32)
+       (set_local $0
+        (call $std/regexp/lastIndexOfFreshLiteral)
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 1672)
+      (i32.const 168)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (return)
+  )
+  (block
+   (call $~lib/env/abort
+    (i32.load
+     (get_global $~exception)
+    )
+    (i32.const 1672)
+    (i32.const 1)
+    (i32.const 0)
+   )
+   (unreachable)
+  )
+ )
+)
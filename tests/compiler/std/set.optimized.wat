@@ -4,31 +4,82 @@
  (type $iv (func (param i32)))
  (type $iiii (func (param i32 i32 i32) (result i32)))
  (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $iiiv (func (param i32 i32 i32)))
  (type $iii (func (param i32 i32) (result i32)))
  (type $iiv (func (param i32 i32)))
  (type $iIi (func (param i32 i64) (result i32)))
  (type $Ii (func (param i64) (result i32)))
  (type $iIii (func (param i32 i64 i32) (result i32)))
  (type $iIv (func (param i32 i64)))
+ (type $IIiv (func (param i64 i64 i32)))
  (type $ifi (func (param i32 f32) (result i32)))
  (type $fi (func (param f32) (result i32)))
  (type $ifii (func (param i32 f32 i32) (result i32)))
  (type $ifv (func (param i32 f32)))
+ (type $ffiv (func (param f32 f32 i32)))
  (type $iFi (func (param i32 f64) (result i32)))
  (type $Fi (func (param f64) (result i32)))
  (type $iFii (func (param i32 f64 i32) (result i32)))
  (type $iFv (func (param i32 f64)))
- (type $FUNCSIG$i (func (result i32)))
+ (type $FFiv (func (param f64 f64 i32)))
+ (type $iI (func (param i32) (result i64)))
+ (type $if (func (param i32) (result f32)))
+ (type $iF (func (param i32) (result f64)))
  (type $FUNCSIG$vii (func (param i32 i32)))
  (type $FUNCSIG$iii (func (param i32 i32) (result i32)))
+ (type $FUNCSIG$i (func (result i32)))
+ (type $FUNCSIG$ijj (func (param i64 i64) (result i32)))
+ (type $FUNCSIG$iff (func (param f32 f32) (result i32)))
+ (type $FUNCSIG$idd (func (param f64 f64) (result i32)))
  (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
  (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
  (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $~env (mut i32) (i32.const 0))
+ (global $~argc (mut i32) (i32.const 0))
+ (global $RTTI_BASE i32 (i32.const 176))
+ (table 10 10 anyfunc)
+ (elem (i32.const 0) $std/set/test<i8>~anonymous|0 $std/set/test<i8>~anonymous|0 $std/set/test<i16>~anonymous|2 $std/set/test<i16>~anonymous|2 $std/set/test<i32>~anonymous|4 $std/set/test<i32>~anonymous|4 $std/set/test<i64>~anonymous|6 $std/set/test<i64>~anonymous|6 $std/set/test<f32>~anonymous|8 $std/set/test<f64>~anonymous|9)
  (memory $0 1)
  (data (i32.const 8) "\13\00\00\00~\00l\00i\00b\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s")
  (data (i32.const 56) "\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s")
  (data (i32.const 120) "\n\00\00\00s\00t\00d\00/\00s\00e\00t\00.\00t\00s")
+ (data (i32.const 144) "\0b\00\00\00~\00l\00i\00b\00/\00s\00e\00t\00.\00t\00s")
+ (data (i32.const 176) "q\00\00\00\01")
+ (data (i32.const 192) "\02")
+ (data (i32.const 204) "\03\00\00\00\00\00\00\00\04\00\00\00\04")
+ (data (i32.const 228) "\05")
+ (data (i32.const 240) "\06\00\00\00\00\00\00\00\04\00\00\00\07\00\00\00\06\00\00\00\04\00\00\00\08\00\00\00\07\00\00\00\04\00\00\00\t\00\00\00\08\00\00\00\04\00\00\00\n")
+ (data (i32.const 300) "\0b\00\00\00\00\00\00\00\04\00\00\00\0c\00\00\00\0b\00\00\00\04\00\00\00\0d\00\00\00\0c\00\00\00\04\00\00\00\0e\00\00\00\0d\00\00\00\04\00\00\00\0f")
+ (data (i32.const 360) "\10")
+ (data (i32.const 372) "\11\00\00\00\00\00\00\00\04\00\00\00\12\00\00\00\11\00\00\00\04\00\00\00\13\00\00\00\12\00\00\00\04\00\00\00\14\00\00\00\13\00\00\00\04\00\00\00\15")
+ (data (i32.const 432) "\16\00\00\00\00\00\00\00\04\00\00\00\17\00\00\00\16\00\00\00\04\00\00\00\18\00\00\00\17\00\00\00\04\00\00\00\19\00\00\00\18\00\00\00\04\00\00\00\1a")
+ (data (i32.const 492) "\1b")
+ (data (i32.const 504) "\1c\00\00\00\00\00\00\00\04\00\00\00\1d\00\00\00\1c\00\00\00\04\00\00\00\1e\00\00\00\1d\00\00\00\04\00\00\00\1f\00\00\00\1e\00\00\00\04\00\00\00 ")
+ (data (i32.const 564) "!\00\00\00\00\00\00\00\04\00\00\00\"\00\00\00!\00\00\00\04\00\00\00#\00\00\00\"\00\00\00\04\00\00\00$\00\00\00#\00\00\00\04\00\00\00%")
+ (data (i32.const 624) "&")
+ (data (i32.const 636) "\'\00\00\00\00\00\00\00\04\00\00\00(\00\00\00\'\00\00\00\04\00\00\00)\00\00\00(\00\00\00\04\00\00\00*\00\00\00)\00\00\00\04\00\00\00+")
+ (data (i32.const 696) ",\00\00\00\00\00\00\00\04\00\00\00-\00\00\00,\00\00\00\04\00\00\00.\00\00\00-\00\00\00\04\00\00\00/\00\00\00.\00\00\00\04\00\00\000")
+ (data (i32.const 756) "1")
+ (data (i32.const 768) "2\00\00\00\00\00\00\00\04\00\00\003\00\00\002\00\00\00\04\00\00\004\00\00\003\00\00\00\04\00\00\005\00\00\004\00\00\00\04\00\00\006")
+ (data (i32.const 828) "7\00\00\00\00\00\00\00\04\00\00\008\00\00\007\00\00\00\04\00\00\009\00\00\008\00\00\00\04\00\00\00:\00\00\009\00\00\00\04\00\00\00;")
+ (data (i32.const 888) "<")
+ (data (i32.const 900) "=\00\00\00\00\00\00\00\04\00\00\00>\00\00\00=\00\00\00\04\00\00\00?\00\00\00>\00\00\00\04\00\00\00@\00\00\00?\00\00\00\04\00\00\00A")
+ (data (i32.const 960) "B\00\00\00\00\00\00\00\04\00\00\00C\00\00\00B\00\00\00\04\00\00\00D\00\00\00C\00\00\00\04\00\00\00E\00\00\00D\00\00\00\04\00\00\00F")
+ (data (i32.const 1020) "G")
+ (data (i32.const 1032) "H\00\00\00\00\00\00\00\04\00\00\00I\00\00\00H\00\00\00\04\00\00\00J\00\00\00I\00\00\00\04\00\00\00K\00\00\00J\00\00\00\04\00\00\00L")
+ (data (i32.const 1092) "M\00\00\00\00\00\00\00\04\00\00\00N\00\00\00M\00\00\00\04\00\00\00O\00\00\00N\00\00\00\04\00\00\00P\00\00\00O\00\00\00\04\00\00\00Q")
+ (data (i32.const 1152) "R")
+ (data (i32.const 1164) "S\00\00\00\00\00\00\00\04\00\00\00T\00\00\00S\00\00\00\04\00\00\00U\00\00\00T\00\00\00\04\00\00\00V\00\00\00U\00\00\00\04\00\00\00W")
+ (data (i32.const 1224) "X\00\00\00\00\00\00\00\04\00\00\00Y\00\00\00X\00\00\00\04\00\00\00Z\00\00\00Y\00\00\00\04\00\00\00[\00\00\00Z\00\00\00\04\00\00\00\\")
+ (data (i32.const 1284) "]")
+ (data (i32.const 1296) "^\00\00\00\00\00\00\00\04\00\00\00_\00\00\00^\00\00\00\04\00\00\00`\00\00\00_\00\00\00\04\00\00\00a\00\00\00`\00\00\00\04\00\00\00b")
+ (data (i32.const 1356) "c\00\00\00\00\00\00\00\04\00\00\00d\00\00\00c\00\00\00\04\00\00\00e\00\00\00d\00\00\00\04\00\00\00f\00\00\00e\00\00\00\04\00\00\00g")
+ (data (i32.const 1416) "h")
+ (data (i32.const 1428) "i\00\00\00\00\00\00\00\04\00\00\00j\00\00\00i\00\00\00\04\00\00\00k\00\00\00j\00\00\00\04\00\00\00l\00\00\00k\00\00\00\04\00\00\00m")
+ (data (i32.const 1488) "n\00\00\00\00\00\00\00\04\00\00\00o\00\00\00n\00\00\00\04\00\00\00p\00\00\00o\00\00\00\04\00\00\00q\00\00\00p\00\00\00\04")
+ (export "RTTI_BASE" (global $RTTI_BASE))
  (export "memory" (memory $0))
+ (export "table" (table $0))
  (start $start)
  (func $~lib/allocator/arena/__memory_allocate (; 1 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
@@ -115,9 +166,9 @@
   )
   (get_local $1)
  )
- (func $~lib/memory/memory.allocate (; 2 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+ (func $~lib/memory/memory.allocate (; 2 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (call $~lib/allocator/arena/__memory_allocate
-   (i32.const 24)
+   (get_local $0)
   )
  )
  (func $~lib/internal/arraybuffer/computeSize (; 3 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
@@ -543,7 +594,9 @@
   (local $0 i32)
   (i32.store
    (tee_local $0
-    (call $~lib/memory/memory.allocate)
+    (call $~lib/memory/memory.allocate
+     (i32.const 24)
+    )
    )
    (i32.const 0)
   )
@@ -1060,9 +1113,203 @@
   )
   (i32.const 1)
  )
- (func $std/set/test<i8> (; 17 ;) (; has Stack IR ;) (type $v)
+ (func $~lib/set/Set<i8>#values (; 17 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 9)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/iterator/IterableIterator<i8>#__iterator (; 18 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<i8>#keys (; 19 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<i8>#values
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<i8>#entries (; 20 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 14)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $std/set/test<i8>~anonymous|0 (; 21 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.and
+     (get_local $0)
+     (i32.const 255)
+    )
+    (i32.and
+     (get_local $1)
+     (i32.const 255)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 64)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (i32.add
+    (i32.load offset=4
+     (get_local $3)
+    )
+    (i32.const 1)
+   )
+  )
+ )
+ (func $~lib/set/Set<i8>#forEach (; 22 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (i32.load offset=16
+       (get_local $0)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (i32.and
+       (i32.load offset=4
+        (tee_local $3
+         (i32.add
+          (i32.add
+           (i32.load offset=8
+            (get_local $0)
+           )
+           (i32.const 8)
+          )
+          (i32.shl
+           (get_local $2)
+           (i32.const 3)
+          )
+         )
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (block
+      (set_global $~argc
+       (i32.const 3)
+      )
+      (set_local $4
+       (i32.load8_s
+        (get_local $3)
+       )
+      )
+      (set_local $3
+       (i32.load8_s
+        (get_local $3)
+       )
+      )
+      (set_global $~env
+       (get_local $1)
+      )
+      (call_indirect (type $iiiv)
+       (get_local $4)
+       (get_local $3)
+       (get_local $0)
+       (i32.load
+        (get_global $~env)
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $std/set/test<i8> (; 23 ;) (; has Stack IR ;) (type $v)
   (local $0 i32)
   (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
   (set_local $1
    (call $~lib/set/Set<i8>#constructor)
   )
@@ -1384,553 +1631,321 @@
     (unreachable)
    )
   )
-  (call $~lib/set/Set<i8>#clear
-   (get_local $1)
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
   )
-  (if
-   (call $~lib/set/Set<i8>#get:size
-    (get_local $1)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
+  (block $break|4
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<i8>#values
+      (get_local $1)
+     )
     )
-    (unreachable)
-   )
-  )
- )
- (func $~lib/internal/hash/hash<u8> (; 18 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
-  (call $~lib/internal/hash/hash8
-   (i32.and
-    (get_local $0)
-    (i32.const 255)
    )
-  )
- )
- (func $~lib/set/Set<u8>#has (; 19 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.ne
-   (call $~lib/set/Set<i8>#find
-    (get_local $0)
-    (get_local $1)
-    (call $~lib/internal/hash/hash<u8>
-     (get_local $1)
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<i8>#get:done|virtual
+      (get_local $0)
+     )
     )
-   )
-   (i32.const 0)
-  )
- )
- (func $~lib/set/Set<u8>#rehash (; 20 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (set_local $4
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $2
-      (i32.add
-       (get_local $1)
-       (i32.const 1)
+    (i32.store
+     (tee_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 5)
       )
      )
-     (i32.const 2)
+     (get_local $2)
     )
-    (i32.const 0)
-   )
-  )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $7
-      (i32.trunc_s/f64
-       (f64.mul
-        (f64.convert_s/i32
-         (get_local $2)
-        )
-        (f64.const 2.6666666666666665)
+    (i32.store8 offset=4
+     (get_local $4)
+     (i32.const 0)
+    )
+    (i32.store8 offset=4
+     (get_local $4)
+     (call $~lib/iterator/Iterator<i8>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (tee_local $3
+      (i32.ge_s
+       (i32.load8_s offset=4
+        (get_local $4)
        )
+       (i32.const 50)
       )
      )
-     (i32.const 3)
-    )
-    (i32.const 1)
-   )
-  )
-  (set_local $8
-   (i32.add
-    (tee_local $2
-     (i32.add
-      (i32.load offset=8
-       (get_local $0)
+     (set_local $3
+      (i32.lt_s
+       (i32.load8_s offset=4
+        (get_local $4)
+       )
+       (i32.const 100)
       )
-      (i32.const 8)
      )
     )
-    (i32.shl
-     (i32.load offset=16
-      (get_local $0)
+    (if
+     (i32.eqz
+      (get_local $3)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 43)
+       (i32.const 4)
+      )
+      (unreachable)
      )
-     (i32.const 3)
-    )
-   )
-  )
-  (set_local $3
-   (i32.add
-    (get_local $5)
-    (i32.const 8)
-   )
-  )
-  (loop $continue|0
-   (if
-    (i32.ne
-     (get_local $2)
-     (get_local $8)
     )
-    (block
-     (if
-      (i32.eqz
-       (i32.and
+    (if
+     (call $~lib/set/Set<i8>#has
+      (get_local $1)
+      (i32.load8_s offset=4
+       (get_local $4)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
         (i32.load offset=4
          (get_local $2)
         )
         (i32.const 1)
        )
       )
-      (block
-       (i32.store8
-        (get_local $3)
-        (i32.load8_u
-         (get_local $2)
-        )
-       )
-       (i32.store offset=4
-        (get_local $3)
-        (i32.load offset=8
-         (tee_local $6
-          (i32.add
-           (get_local $4)
-           (i32.shl
-            (i32.and
-             (tee_local $6
-              (call $~lib/internal/hash/hash8
-               (i32.load8_u
-                (get_local $2)
-               )
-              )
-             )
-             (get_local $1)
-            )
-            (i32.const 2)
-           )
-          )
-         )
-        )
-       )
-       (i32.store offset=8
-        (get_local $6)
-        (get_local $3)
-       )
-       (set_local $3
-        (i32.add
-         (get_local $3)
-         (i32.const 8)
-        )
-       )
-      )
+      (br $repeat|4)
      )
-     (set_local $2
-      (i32.add
-       (get_local $2)
-       (i32.const 8)
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 44)
+       (i32.const 4)
       )
+      (unreachable)
      )
-     (br $continue|0)
     )
    )
   )
-  (i32.store
-   (get_local $0)
-   (get_local $4)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $7)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
-   )
-  )
- )
- (func $~lib/set/Set<u8>#add (; 21 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
   (if
-   (i32.eqz
-    (call $~lib/set/Set<i8>#find
-     (get_local $0)
-     (get_local $1)
-     (tee_local $4
-      (call $~lib/internal/hash/hash<u8>
-       (get_local $1)
-      )
-     )
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
     )
+    (i32.const 50)
    )
    (block
-    (if
-     (i32.eq
-      (i32.load offset=16
-       (get_local $0)
-      )
-      (i32.load offset=12
-       (get_local $0)
-      )
-     )
-     (call $~lib/set/Set<u8>#rehash
-      (get_local $0)
-      (tee_local $2
-       (if (result i32)
-        (i32.lt_s
-         (i32.load offset=20
-          (get_local $0)
-         )
-         (i32.trunc_s/f64
-          (f64.mul
-           (f64.convert_s/i32
-            (i32.load offset=12
-             (get_local $0)
-            )
-           )
-           (f64.const 0.75)
-          )
-         )
-        )
-        (i32.load offset=4
-         (get_local $0)
-        )
-        (i32.or
-         (i32.shl
-          (i32.load offset=4
-           (get_local $0)
-          )
-          (i32.const 1)
-         )
-         (i32.const 1)
-        )
-       )
-      )
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 47)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|5
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<i8>#keys
+      (get_local $1)
      )
     )
-    (set_local $2
-     (i32.load offset=8
+   )
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<i8>#get:done|virtual
       (get_local $0)
      )
     )
-    (i32.store offset=16
-     (get_local $0)
-     (i32.add
-      (tee_local $3
-       (i32.load offset=16
-        (get_local $0)
-       )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 5)
       )
-      (i32.const 1)
      )
+     (get_local $2)
     )
-    (i32.store8
-     (tee_local $2
-      (i32.add
-       (i32.add
-        (get_local $2)
-        (i32.const 8)
-       )
-       (i32.shl
-        (get_local $3)
-        (i32.const 3)
-       )
-      )
+    (i32.store8 offset=4
+     (get_local $3)
+     (i32.const 0)
+    )
+    (i32.store8 offset=4
+     (get_local $3)
+     (call $~lib/iterator/Iterator<i8>#next|virtual
+      (get_local $0)
      )
-     (get_local $1)
     )
-    (i32.store offset=20
-     (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
+    (if
+     (call $~lib/set/Set<i8>#has
+      (get_local $1)
+      (i32.load8_s offset=4
+       (get_local $3)
       )
-      (i32.const 1)
      )
-    )
-    (i32.store offset=4
-     (get_local $2)
-     (i32.load offset=8
-      (tee_local $3
-       (i32.add
-        (i32.load
-         (get_local $0)
-        )
-        (i32.shl
-         (i32.and
-          (get_local $4)
-          (i32.load offset=4
-           (get_local $0)
-          )
-         )
-         (i32.const 2)
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
         )
+        (i32.const 1)
        )
       )
+      (br $repeat|5)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 49)
+       (i32.const 4)
+      )
+      (unreachable)
      )
-    )
-    (i32.store offset=8
-     (get_local $3)
-     (get_local $2)
     )
    )
   )
- )
- (func $~lib/set/Set<u8>#delete (; 22 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
   (if
-   (i32.eqz
-    (tee_local $0
-     (call $~lib/set/Set<i8>#find
-      (tee_local $2
-       (get_local $0)
-      )
-      (get_local $1)
-      (tee_local $0
-       (call $~lib/internal/hash/hash8
-        (i32.and
-         (get_local $1)
-         (i32.const 255)
-        )
-       )
-      )
-     )
-    )
-   )
-   (return
-    (i32.const 0)
-   )
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (i32.or
-    (i32.load offset=4
-     (get_local $0)
-    )
-    (i32.const 1)
+   (i32.load offset=4
+    (get_local $2)
    )
-  )
-  (i32.store offset=20
-   (get_local $2)
-   (i32.sub
-    (i32.load offset=20
-     (get_local $2)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 52)
+     (i32.const 2)
     )
-    (i32.const 1)
+    (unreachable)
    )
   )
-  (if
-   (tee_local $0
-    (i32.ge_u
-     (i32.add
-      (tee_local $1
-       (i32.shr_u
-        (i32.load offset=4
-         (get_local $2)
-        )
-        (i32.const 1)
-       )
-      )
-      (i32.const 1)
-     )
-     (select
-      (i32.const 4)
-      (tee_local $0
-       (i32.load offset=20
-        (get_local $2)
-       )
-      )
-      (i32.gt_u
-       (i32.const 4)
-       (get_local $0)
-      )
-     )
-    )
-   )
+  (block $break|6
    (set_local $0
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $2)
-     )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $2)
-        )
-       )
-       (f64.const 0.75)
-      )
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<i8>#entries
+      (get_local $1)
      )
     )
    )
-  )
-  (if
-   (get_local $0)
-   (call $~lib/set/Set<u8>#rehash
-    (get_local $2)
-    (get_local $1)
-   )
-  )
-  (i32.const 1)
- )
- (func $std/set/test<u8> (; 23 ;) (; has Stack IR ;) (type $v)
-  (local $0 i32)
-  (local $1 i32)
-  (set_local $1
-   (call $~lib/set/Set<i8>#constructor)
-  )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.ge_u
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<KeyValue<i8,i8>>#get:done|virtual
       (get_local $0)
-      (i32.const 100)
      )
     )
     (if
-     (call $~lib/set/Set<u8>#has
-      (get_local $1)
-      (get_local $0)
+     (i32.ne
+      (i32.load8_s
+       (tee_local $3
+        (call $~lib/iterator/Iterator<KeyValue<i8,i8>>#next|virtual
+         (get_local $0)
+        )
+       )
+      )
+      (i32.load8_s offset=1
+       (get_local $3)
+      )
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 8)
+       (i32.const 54)
        (i32.const 4)
       )
       (unreachable)
      )
-    )
-    (call $~lib/set/Set<u8>#add
-     (get_local $1)
-     (get_local $0)
-    )
-    (if
-     (call $~lib/set/Set<u8>#has
-      (get_local $1)
-      (get_local $0)
-     )
      (block
-      (set_local $0
+      (i32.store offset=4
+       (get_local $2)
        (i32.add
-        (get_local $0)
+        (i32.load offset=4
+         (get_local $2)
+        )
         (i32.const 1)
        )
       )
-      (br $repeat|0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 10)
-       (i32.const 4)
-      )
-      (unreachable)
+      (br $repeat|6)
      )
     )
    )
   )
   (if
    (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
+    (i32.load offset=4
+     (get_local $2)
     )
-    (i32.const 100)
+    (i32.const 50)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 12)
+     (i32.const 57)
      (i32.const 2)
     )
     (unreachable)
    )
   )
-  (block $break|1
-   (set_local $0
-    (i32.const 50)
+  (block $break|7
+   (set_local $3
+    (call $~lib/set/Set<i8>#keys
+     (get_local $1)
+    )
    )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.ge_u
-      (get_local $0)
-      (i32.const 100)
+   (loop $repeat|7
+    (br_if $break|7
+     (call $~lib/iterator/Iterator<i8>#get:done|virtual
+      (get_local $3)
      )
     )
-    (if
-     (i32.eqz
-      (call $~lib/set/Set<u8>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 16)
-       (i32.const 4)
+    (i32.store
+     (tee_local $0
+      (call $~lib/memory/memory.allocate
+       (i32.const 5)
       )
-      (unreachable)
      )
+     (get_local $2)
     )
-    (call $~lib/set/Set<u8>#add
-     (get_local $1)
+    (i32.store8 offset=4
      (get_local $0)
+     (i32.const 0)
+    )
+    (i32.store8 offset=4
+     (get_local $0)
+     (call $~lib/iterator/Iterator<i8>#next|virtual
+      (get_local $3)
+     )
     )
     (if
-     (call $~lib/set/Set<u8>#has
+     (call $~lib/set/Set<i8>#has
       (get_local $1)
-      (get_local $0)
+      (i32.load8_s offset=4
+       (get_local $0)
+      )
      )
      (block
-      (set_local $0
-       (i32.add
-        (get_local $0)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
         (i32.const 1)
        )
       )
-      (br $repeat|1)
+      (br $repeat|7)
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 18)
+       (i32.const 59)
        (i32.const 4)
       )
       (unreachable)
@@ -1938,87 +1953,6052 @@
     )
    )
   )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 62)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $3
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (get_local $2)
+  )
+  (call $~lib/set/Set<i8>#forEach
+   (get_local $1)
+   (get_local $3)
+  )
   (if
    (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
+    (i32.load offset=4
+     (get_local $2)
     )
-    (i32.const 100)
+    (i32.const 50)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 20)
+     (i32.const 67)
      (i32.const 2)
     )
     (unreachable)
    )
   )
-  (block $break|2
-   (set_local $0
-    (i32.const 0)
+  (call $~lib/set/Set<i8>#clear
+   (get_local $1)
+  )
+  (if
+   (call $~lib/set/Set<i8>#get:size
+    (get_local $1)
    )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.ge_u
-      (get_local $0)
-      (i32.const 50)
-     )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 71)
+     (i32.const 2)
     )
-    (if
-     (i32.eqz
-      (call $~lib/set/Set<u8>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
+    (unreachable)
+   )
+  )
+ )
+ (func $~lib/internal/hash/hash<u8> (; 24 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/internal/hash/hash8
+   (i32.and
+    (get_local $0)
+    (i32.const 255)
+   )
+  )
+ )
+ (func $~lib/set/Set<u8>#has (; 25 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.ne
+   (call $~lib/set/Set<i8>#find
+    (get_local $0)
+    (get_local $1)
+    (call $~lib/internal/hash/hash<u8>
+     (get_local $1)
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/set/Set<u8>#rehash (; 26 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $4
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.shl
+     (tee_local $2
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (i32.const 2)
+    )
+    (i32.const 0)
+   )
+  )
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.shl
+     (tee_local $7
+      (i32.trunc_s/f64
+       (f64.mul
+        (f64.convert_s/i32
+         (get_local $2)
+        )
+        (f64.const 2.6666666666666665)
+       )
+      )
+     )
+     (i32.const 3)
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $8
+   (i32.add
+    (tee_local $2
+     (i32.add
+      (i32.load offset=8
+       (get_local $0)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.shl
+     (i32.load offset=16
+      (get_local $0)
+     )
+     (i32.const 3)
+    )
+   )
+  )
+  (set_local $3
+   (i32.add
+    (get_local $5)
+    (i32.const 8)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.ne
+     (get_local $2)
+     (get_local $8)
+    )
+    (block
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (block
+       (i32.store8
+        (get_local $3)
+        (i32.load8_u
+         (get_local $2)
+        )
+       )
+       (i32.store offset=4
+        (get_local $3)
+        (i32.load offset=8
+         (tee_local $6
+          (i32.add
+           (get_local $4)
+           (i32.shl
+            (i32.and
+             (tee_local $6
+              (call $~lib/internal/hash/hash8
+               (i32.load8_u
+                (get_local $2)
+               )
+              )
+             )
+             (get_local $1)
+            )
+            (i32.const 2)
+           )
+          )
+         )
+        )
+       )
+       (i32.store offset=8
+        (get_local $6)
+        (get_local $3)
+       )
+       (set_local $3
+        (i32.add
+         (get_local $3)
+         (i32.const 8)
+        )
+       )
+      )
+     )
+     (set_local $2
+      (i32.add
+       (get_local $2)
+       (i32.const 8)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $7)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/Set<u8>#add (; 27 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eqz
+    (call $~lib/set/Set<i8>#find
+     (get_local $0)
+     (get_local $1)
+     (tee_local $4
+      (call $~lib/internal/hash/hash<u8>
+       (get_local $1)
+      )
+     )
+    )
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
+      )
+     )
+     (call $~lib/set/Set<u8>#rehash
+      (get_local $0)
+      (tee_local $2
+       (if (result i32)
+        (i32.lt_s
+         (i32.load offset=20
+          (get_local $0)
+         )
+         (i32.trunc_s/f64
+          (f64.mul
+           (f64.convert_s/i32
+            (i32.load offset=12
+             (get_local $0)
+            )
+           )
+           (f64.const 0.75)
+          )
+         )
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+        (i32.or
+         (i32.shl
+          (i32.load offset=4
+           (get_local $0)
+          )
+          (i32.const 1)
+         )
+         (i32.const 1)
+        )
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.load offset=8
+      (get_local $0)
+     )
+    )
+    (i32.store offset=16
+     (get_local $0)
+     (i32.add
+      (tee_local $3
+       (i32.load offset=16
+        (get_local $0)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (tee_local $2
+      (i32.add
+       (i32.add
+        (get_local $2)
+        (i32.const 8)
+       )
+       (i32.shl
+        (get_local $3)
+        (i32.const 3)
+       )
+      )
+     )
+     (get_local $1)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store offset=4
+     (get_local $2)
+     (i32.load offset=8
+      (tee_local $3
+       (i32.add
+        (i32.load
+         (get_local $0)
+        )
+        (i32.shl
+         (i32.and
+          (get_local $4)
+          (i32.load offset=4
+           (get_local $0)
+          )
+         )
+         (i32.const 2)
+        )
+       )
+      )
+     )
+    )
+    (i32.store offset=8
+     (get_local $3)
+     (get_local $2)
+    )
+   )
+  )
+ )
+ (func $~lib/set/Set<u8>#delete (; 28 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (tee_local $0
+     (call $~lib/set/Set<i8>#find
+      (tee_local $2
+       (get_local $0)
+      )
+      (get_local $1)
+      (tee_local $0
+       (call $~lib/internal/hash/hash8
+        (i32.and
+         (get_local $1)
+         (i32.const 255)
+        )
+       )
+      )
+     )
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.or
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=20
+   (get_local $2)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $2)
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (tee_local $0
+    (i32.ge_u
+     (i32.add
+      (tee_local $1
+       (i32.shr_u
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+     (select
+      (i32.const 4)
+      (tee_local $0
+       (i32.load offset=20
+        (get_local $2)
+       )
+      )
+      (i32.gt_u
+       (i32.const 4)
+       (get_local $0)
+      )
+     )
+    )
+   )
+   (set_local $0
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $2)
+     )
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $2)
+        )
+       )
+       (f64.const 0.75)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (get_local $0)
+   (call $~lib/set/Set<u8>#rehash
+    (get_local $2)
+    (get_local $1)
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/set/Set<u8>#values (; 29 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 20)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/set/Set<u8>#keys (; 30 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<u8>#values
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<u8>#entries (; 31 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 25)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/set/Set<u8>#forEach (; 32 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (i32.load offset=16
+       (get_local $0)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (i32.and
+       (i32.load offset=4
+        (tee_local $3
+         (i32.add
+          (i32.add
+           (i32.load offset=8
+            (get_local $0)
+           )
+           (i32.const 8)
+          )
+          (i32.shl
+           (get_local $2)
+           (i32.const 3)
+          )
+         )
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (block
+      (set_global $~argc
+       (i32.const 3)
+      )
+      (set_local $4
+       (i32.load8_u
+        (get_local $3)
+       )
+      )
+      (set_local $3
+       (i32.load8_u
+        (get_local $3)
+       )
+      )
+      (set_global $~env
+       (get_local $1)
+      )
+      (call_indirect (type $iiiv)
+       (get_local $4)
+       (get_local $3)
+       (get_local $0)
+       (i32.load
+        (get_global $~env)
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $std/set/test<u8> (; 33 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (set_local $1
+   (call $~lib/set/Set<i8>#constructor)
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 100)
+     )
+    )
+    (if
+     (call $~lib/set/Set<u8>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 8)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/set/Set<u8>#add
+     (get_local $1)
+     (get_local $0)
+    )
+    (if
+     (call $~lib/set/Set<u8>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 10)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 12)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|1
+   (set_local $0
+    (i32.const 50)
+   )
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 100)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<u8>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 16)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/set/Set<u8>#add
+     (get_local $1)
+     (get_local $0)
+    )
+    (if
+     (call $~lib/set/Set<u8>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|1)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 18)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 20)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|2
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|2
+    (br_if $break|2
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 50)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<u8>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 24)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (drop
+     (call $~lib/set/Set<u8>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/set/Set<u8>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 26)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|2)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 28)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|3
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|3
+    (br_if $break|3
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 50)
+     )
+    )
+    (if
+     (call $~lib/set/Set<u8>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 32)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/set/Set<u8>#add
+     (get_local $1)
+     (get_local $0)
+    )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<u8>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 34)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (drop
+     (call $~lib/set/Set<u8>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/set/Set<u8>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 36)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 38)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block $break|4
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<u8>#values
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<u8>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (i32.store
+     (tee_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 5)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store8 offset=4
+     (get_local $4)
+     (i32.const 0)
+    )
+    (i32.store8 offset=4
+     (get_local $4)
+     (call $~lib/iterator/Iterator<u8>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (tee_local $3
+      (i32.ge_u
+       (i32.load8_u offset=4
+        (get_local $4)
+       )
+       (i32.const 50)
+      )
+     )
+     (set_local $3
+      (i32.lt_u
+       (i32.load8_u offset=4
+        (get_local $4)
+       )
+       (i32.const 100)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (get_local $3)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 43)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (call $~lib/set/Set<u8>#has
+      (get_local $1)
+      (i32.load8_u offset=4
+       (get_local $4)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|4)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 44)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 47)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|5
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<u8>#keys
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<u8>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 5)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store8 offset=4
+     (get_local $3)
+     (i32.const 0)
+    )
+    (i32.store8 offset=4
+     (get_local $3)
+     (call $~lib/iterator/Iterator<u8>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/set/Set<u8>#has
+      (get_local $1)
+      (i32.load8_u offset=4
+       (get_local $3)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|5)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 49)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 52)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|6
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<u8>#entries
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<KeyValue<u8,u8>>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (i32.ne
+      (i32.load8_u
+       (tee_local $3
+        (call $~lib/iterator/Iterator<KeyValue<u8,u8>>#next|virtual
+         (get_local $0)
+        )
+       )
+      )
+      (i32.load8_u offset=1
+       (get_local $3)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 54)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|6)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 57)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|7
+   (set_local $3
+    (call $~lib/set/Set<u8>#keys
+     (get_local $1)
+    )
+   )
+   (loop $repeat|7
+    (br_if $break|7
+     (call $~lib/iterator/Iterator<u8>#get:done|virtual
+      (get_local $3)
+     )
+    )
+    (i32.store
+     (tee_local $0
+      (call $~lib/memory/memory.allocate
+       (i32.const 5)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store8 offset=4
+     (get_local $0)
+     (i32.const 0)
+    )
+    (i32.store8 offset=4
+     (get_local $0)
+     (call $~lib/iterator/Iterator<u8>#next|virtual
+      (get_local $3)
+     )
+    )
+    (if
+     (call $~lib/set/Set<u8>#has
+      (get_local $1)
+      (i32.load8_u offset=4
+       (get_local $0)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|7)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 59)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 62)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $3
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 1)
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (get_local $2)
+  )
+  (call $~lib/set/Set<u8>#forEach
+   (get_local $1)
+   (get_local $3)
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 67)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/set/Set<i8>#clear
+   (get_local $1)
+  )
+  (if
+   (call $~lib/set/Set<i8>#get:size
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 71)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+ )
+ (func $~lib/internal/hash/hash16 (; 34 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.mul
+   (i32.xor
+    (i32.mul
+     (i32.xor
+      (i32.and
+       (get_local $0)
+       (i32.const 255)
+      )
+      (i32.const -2128831035)
+     )
+     (i32.const 16777619)
+    )
+    (i32.shr_u
+     (get_local $0)
+     (i32.const 8)
+    )
+   )
+   (i32.const 16777619)
+  )
+ )
+ (func $~lib/internal/hash/hash<i16> (; 35 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/internal/hash/hash16
+   (i32.shr_s
+    (i32.shl
+     (get_local $0)
+     (i32.const 16)
+    )
+    (i32.const 16)
+   )
+  )
+ )
+ (func $~lib/set/Set<i16>#find (; 36 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (set_local $2
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (i32.shl
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (i32.const 2)
+     )
+    )
+   )
+  )
+  (loop $continue|0
+   (if
+    (get_local $2)
+    (block
+     (if
+      (tee_local $0
+       (i32.eqz
+        (i32.and
+         (i32.load offset=4
+          (get_local $2)
+         )
+         (i32.const 1)
+        )
+       )
+      )
+      (set_local $0
+       (i32.eq
+        (i32.load16_u
+         (get_local $2)
+        )
+        (i32.and
+         (get_local $1)
+         (i32.const 65535)
+        )
+       )
+      )
+     )
+     (if
+      (get_local $0)
+      (return
+       (get_local $2)
+      )
+     )
+     (set_local $2
+      (i32.and
+       (i32.load offset=4
+        (get_local $2)
+       )
+       (i32.const -2)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/set/Set<i16>#has (; 37 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.ne
+   (call $~lib/set/Set<i16>#find
+    (get_local $0)
+    (get_local $1)
+    (call $~lib/internal/hash/hash<i16>
+     (get_local $1)
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/set/Set<i16>#rehash (; 38 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $4
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.shl
+     (tee_local $2
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (i32.const 2)
+    )
+    (i32.const 0)
+   )
+  )
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.shl
+     (tee_local $7
+      (i32.trunc_s/f64
+       (f64.mul
+        (f64.convert_s/i32
+         (get_local $2)
+        )
+        (f64.const 2.6666666666666665)
+       )
+      )
+     )
+     (i32.const 3)
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $8
+   (i32.add
+    (tee_local $2
+     (i32.add
+      (i32.load offset=8
+       (get_local $0)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.shl
+     (i32.load offset=16
+      (get_local $0)
+     )
+     (i32.const 3)
+    )
+   )
+  )
+  (set_local $3
+   (i32.add
+    (get_local $5)
+    (i32.const 8)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.ne
+     (get_local $2)
+     (get_local $8)
+    )
+    (block
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (block
+       (i32.store16
+        (get_local $3)
+        (i32.load16_s
+         (get_local $2)
+        )
+       )
+       (i32.store offset=4
+        (get_local $3)
+        (i32.load offset=8
+         (tee_local $6
+          (i32.add
+           (get_local $4)
+           (i32.shl
+            (i32.and
+             (tee_local $6
+              (call $~lib/internal/hash/hash16
+               (i32.load16_s
+                (get_local $2)
+               )
+              )
+             )
+             (get_local $1)
+            )
+            (i32.const 2)
+           )
+          )
+         )
+        )
+       )
+       (i32.store offset=8
+        (get_local $6)
+        (get_local $3)
+       )
+       (set_local $3
+        (i32.add
+         (get_local $3)
+         (i32.const 8)
+        )
+       )
+      )
+     )
+     (set_local $2
+      (i32.add
+       (get_local $2)
+       (i32.const 8)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $7)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/Set<i16>#add (; 39 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eqz
+    (call $~lib/set/Set<i16>#find
+     (get_local $0)
+     (get_local $1)
+     (tee_local $4
+      (call $~lib/internal/hash/hash<i16>
+       (get_local $1)
+      )
+     )
+    )
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
+      )
+     )
+     (call $~lib/set/Set<i16>#rehash
+      (get_local $0)
+      (tee_local $2
+       (if (result i32)
+        (i32.lt_s
+         (i32.load offset=20
+          (get_local $0)
+         )
+         (i32.trunc_s/f64
+          (f64.mul
+           (f64.convert_s/i32
+            (i32.load offset=12
+             (get_local $0)
+            )
+           )
+           (f64.const 0.75)
+          )
+         )
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+        (i32.or
+         (i32.shl
+          (i32.load offset=4
+           (get_local $0)
+          )
+          (i32.const 1)
+         )
+         (i32.const 1)
+        )
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.load offset=8
+      (get_local $0)
+     )
+    )
+    (i32.store offset=16
+     (get_local $0)
+     (i32.add
+      (tee_local $3
+       (i32.load offset=16
+        (get_local $0)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store16
+     (tee_local $2
+      (i32.add
+       (i32.add
+        (get_local $2)
+        (i32.const 8)
+       )
+       (i32.shl
+        (get_local $3)
+        (i32.const 3)
+       )
+      )
+     )
+     (get_local $1)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store offset=4
+     (get_local $2)
+     (i32.load offset=8
+      (tee_local $3
+       (i32.add
+        (i32.load
+         (get_local $0)
+        )
+        (i32.shl
+         (i32.and
+          (get_local $4)
+          (i32.load offset=4
+           (get_local $0)
+          )
+         )
+         (i32.const 2)
+        )
+       )
+      )
+     )
+    )
+    (i32.store offset=8
+     (get_local $3)
+     (get_local $2)
+    )
+   )
+  )
+ )
+ (func $~lib/set/Set<i16>#delete (; 40 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (tee_local $0
+     (call $~lib/set/Set<i16>#find
+      (tee_local $2
+       (get_local $0)
+      )
+      (get_local $1)
+      (tee_local $0
+       (call $~lib/internal/hash/hash16
+        (i32.shr_s
+         (i32.shl
+          (get_local $1)
+          (i32.const 16)
+         )
+         (i32.const 16)
+        )
+       )
+      )
+     )
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.or
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=20
+   (get_local $2)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $2)
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (tee_local $0
+    (i32.ge_u
+     (i32.add
+      (tee_local $1
+       (i32.shr_u
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+     (select
+      (i32.const 4)
+      (tee_local $0
+       (i32.load offset=20
+        (get_local $2)
+       )
+      )
+      (i32.gt_u
+       (i32.const 4)
+       (get_local $0)
+      )
+     )
+    )
+   )
+   (set_local $0
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $2)
+     )
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $2)
+        )
+       )
+       (f64.const 0.75)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (get_local $0)
+   (call $~lib/set/Set<i16>#rehash
+    (get_local $2)
+    (get_local $1)
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/set/Set<i16>#values (; 41 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 31)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/set/Set<i16>#keys (; 42 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<i16>#values
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<i16>#entries (; 43 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 36)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $std/set/test<i16>~anonymous|2 (; 44 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.and
+     (get_local $0)
+     (i32.const 65535)
+    )
+    (i32.and
+     (get_local $1)
+     (i32.const 65535)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 64)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (i32.add
+    (i32.load offset=4
+     (get_local $3)
+    )
+    (i32.const 1)
+   )
+  )
+ )
+ (func $~lib/set/Set<i16>#forEach (; 45 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (i32.load offset=16
+       (get_local $0)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (i32.and
+       (i32.load offset=4
+        (tee_local $3
+         (i32.add
+          (i32.add
+           (i32.load offset=8
+            (get_local $0)
+           )
+           (i32.const 8)
+          )
+          (i32.shl
+           (get_local $2)
+           (i32.const 3)
+          )
+         )
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (block
+      (set_global $~argc
+       (i32.const 3)
+      )
+      (set_local $4
+       (i32.load16_s
+        (get_local $3)
+       )
+      )
+      (set_local $3
+       (i32.load16_s
+        (get_local $3)
+       )
+      )
+      (set_global $~env
+       (get_local $1)
+      )
+      (call_indirect (type $iiiv)
+       (get_local $4)
+       (get_local $3)
+       (get_local $0)
+       (i32.load
+        (get_global $~env)
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $std/set/test<i16> (; 46 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (set_local $1
+   (call $~lib/set/Set<i8>#constructor)
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $0)
+      (i32.const 100)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i16>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 8)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/set/Set<i16>#add
+     (get_local $1)
+     (get_local $0)
+    )
+    (if
+     (call $~lib/set/Set<i16>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 10)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 12)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|1
+   (set_local $0
+    (i32.const 50)
+   )
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.ge_s
+      (get_local $0)
+      (i32.const 100)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<i16>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 16)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/set/Set<i16>#add
+     (get_local $1)
+     (get_local $0)
+    )
+    (if
+     (call $~lib/set/Set<i16>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|1)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 18)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 20)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|2
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|2
+    (br_if $break|2
+     (i32.ge_s
+      (get_local $0)
+      (i32.const 50)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<i16>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 24)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (drop
+     (call $~lib/set/Set<i16>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i16>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 26)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|2)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 28)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|3
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|3
+    (br_if $break|3
+     (i32.ge_s
+      (get_local $0)
+      (i32.const 50)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i16>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 32)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/set/Set<i16>#add
+     (get_local $1)
+     (get_local $0)
+    )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<i16>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 34)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (drop
+     (call $~lib/set/Set<i16>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i16>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 36)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 38)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block $break|4
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<i16>#values
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<i16>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (i32.store
+     (tee_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 6)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store16 offset=4
+     (get_local $4)
+     (i32.const 0)
+    )
+    (i32.store16 offset=4
+     (get_local $4)
+     (call $~lib/iterator/Iterator<i16>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (tee_local $3
+      (i32.ge_s
+       (i32.load16_s offset=4
+        (get_local $4)
+       )
+       (i32.const 50)
+      )
+     )
+     (set_local $3
+      (i32.lt_s
+       (i32.load16_s offset=4
+        (get_local $4)
+       )
+       (i32.const 100)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (get_local $3)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 43)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i16>#has
+      (get_local $1)
+      (i32.load16_s offset=4
+       (get_local $4)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|4)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 44)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 47)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|5
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<i16>#keys
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<i16>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 6)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store16 offset=4
+     (get_local $3)
+     (i32.const 0)
+    )
+    (i32.store16 offset=4
+     (get_local $3)
+     (call $~lib/iterator/Iterator<i16>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i16>#has
+      (get_local $1)
+      (i32.load16_s offset=4
+       (get_local $3)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|5)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 49)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 52)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|6
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<i16>#entries
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<KeyValue<i16,i16>>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (i32.ne
+      (i32.load16_s
+       (tee_local $3
+        (call $~lib/iterator/Iterator<KeyValue<i16,i16>>#next|virtual
+         (get_local $0)
+        )
+       )
+      )
+      (i32.load16_s offset=2
+       (get_local $3)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 54)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|6)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 57)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|7
+   (set_local $3
+    (call $~lib/set/Set<i16>#keys
+     (get_local $1)
+    )
+   )
+   (loop $repeat|7
+    (br_if $break|7
+     (call $~lib/iterator/Iterator<i16>#get:done|virtual
+      (get_local $3)
+     )
+    )
+    (i32.store
+     (tee_local $0
+      (call $~lib/memory/memory.allocate
+       (i32.const 6)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store16 offset=4
+     (get_local $0)
+     (i32.const 0)
+    )
+    (i32.store16 offset=4
+     (get_local $0)
+     (call $~lib/iterator/Iterator<i16>#next|virtual
+      (get_local $3)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i16>#has
+      (get_local $1)
+      (i32.load16_s offset=4
+       (get_local $0)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|7)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 59)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 62)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $3
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 2)
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (get_local $2)
+  )
+  (call $~lib/set/Set<i16>#forEach
+   (get_local $1)
+   (get_local $3)
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 67)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/set/Set<i8>#clear
+   (get_local $1)
+  )
+  (if
+   (call $~lib/set/Set<i8>#get:size
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 71)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+ )
+ (func $~lib/internal/hash/hash<u16> (; 47 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/internal/hash/hash16
+   (i32.and
+    (get_local $0)
+    (i32.const 65535)
+   )
+  )
+ )
+ (func $~lib/set/Set<u16>#has (; 48 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.ne
+   (call $~lib/set/Set<i16>#find
+    (get_local $0)
+    (get_local $1)
+    (call $~lib/internal/hash/hash<u16>
+     (get_local $1)
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/set/Set<u16>#rehash (; 49 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $4
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.shl
+     (tee_local $2
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (i32.const 2)
+    )
+    (i32.const 0)
+   )
+  )
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.shl
+     (tee_local $7
+      (i32.trunc_s/f64
+       (f64.mul
+        (f64.convert_s/i32
+         (get_local $2)
+        )
+        (f64.const 2.6666666666666665)
+       )
+      )
+     )
+     (i32.const 3)
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $8
+   (i32.add
+    (tee_local $2
+     (i32.add
+      (i32.load offset=8
+       (get_local $0)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.shl
+     (i32.load offset=16
+      (get_local $0)
+     )
+     (i32.const 3)
+    )
+   )
+  )
+  (set_local $3
+   (i32.add
+    (get_local $5)
+    (i32.const 8)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.ne
+     (get_local $2)
+     (get_local $8)
+    )
+    (block
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (block
+       (i32.store16
+        (get_local $3)
+        (i32.load16_u
+         (get_local $2)
+        )
+       )
+       (i32.store offset=4
+        (get_local $3)
+        (i32.load offset=8
+         (tee_local $6
+          (i32.add
+           (get_local $4)
+           (i32.shl
+            (i32.and
+             (tee_local $6
+              (call $~lib/internal/hash/hash16
+               (i32.load16_u
+                (get_local $2)
+               )
+              )
+             )
+             (get_local $1)
+            )
+            (i32.const 2)
+           )
+          )
+         )
+        )
+       )
+       (i32.store offset=8
+        (get_local $6)
+        (get_local $3)
+       )
+       (set_local $3
+        (i32.add
+         (get_local $3)
+         (i32.const 8)
+        )
+       )
+      )
+     )
+     (set_local $2
+      (i32.add
+       (get_local $2)
+       (i32.const 8)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $7)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/Set<u16>#add (; 50 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eqz
+    (call $~lib/set/Set<i16>#find
+     (get_local $0)
+     (get_local $1)
+     (tee_local $4
+      (call $~lib/internal/hash/hash<u16>
+       (get_local $1)
+      )
+     )
+    )
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
+      )
+     )
+     (call $~lib/set/Set<u16>#rehash
+      (get_local $0)
+      (tee_local $2
+       (if (result i32)
+        (i32.lt_s
+         (i32.load offset=20
+          (get_local $0)
+         )
+         (i32.trunc_s/f64
+          (f64.mul
+           (f64.convert_s/i32
+            (i32.load offset=12
+             (get_local $0)
+            )
+           )
+           (f64.const 0.75)
+          )
+         )
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+        (i32.or
+         (i32.shl
+          (i32.load offset=4
+           (get_local $0)
+          )
+          (i32.const 1)
+         )
+         (i32.const 1)
+        )
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.load offset=8
+      (get_local $0)
+     )
+    )
+    (i32.store offset=16
+     (get_local $0)
+     (i32.add
+      (tee_local $3
+       (i32.load offset=16
+        (get_local $0)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store16
+     (tee_local $2
+      (i32.add
+       (i32.add
+        (get_local $2)
+        (i32.const 8)
+       )
+       (i32.shl
+        (get_local $3)
+        (i32.const 3)
+       )
+      )
+     )
+     (get_local $1)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store offset=4
+     (get_local $2)
+     (i32.load offset=8
+      (tee_local $3
+       (i32.add
+        (i32.load
+         (get_local $0)
+        )
+        (i32.shl
+         (i32.and
+          (get_local $4)
+          (i32.load offset=4
+           (get_local $0)
+          )
+         )
+         (i32.const 2)
+        )
+       )
+      )
+     )
+    )
+    (i32.store offset=8
+     (get_local $3)
+     (get_local $2)
+    )
+   )
+  )
+ )
+ (func $~lib/set/Set<u16>#delete (; 51 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (tee_local $0
+     (call $~lib/set/Set<i16>#find
+      (tee_local $2
+       (get_local $0)
+      )
+      (get_local $1)
+      (tee_local $0
+       (call $~lib/internal/hash/hash16
+        (i32.and
+         (get_local $1)
+         (i32.const 65535)
+        )
+       )
+      )
+     )
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.or
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=20
+   (get_local $2)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $2)
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (tee_local $0
+    (i32.ge_u
+     (i32.add
+      (tee_local $1
+       (i32.shr_u
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+     (select
+      (i32.const 4)
+      (tee_local $0
+       (i32.load offset=20
+        (get_local $2)
+       )
+      )
+      (i32.gt_u
+       (i32.const 4)
+       (get_local $0)
+      )
+     )
+    )
+   )
+   (set_local $0
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $2)
+     )
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $2)
+        )
+       )
+       (f64.const 0.75)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (get_local $0)
+   (call $~lib/set/Set<u16>#rehash
+    (get_local $2)
+    (get_local $1)
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/set/Set<u16>#values (; 52 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 42)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/set/Set<u16>#keys (; 53 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<u16>#values
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<u16>#entries (; 54 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 47)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/set/Set<u16>#forEach (; 55 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (i32.load offset=16
+       (get_local $0)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (i32.and
+       (i32.load offset=4
+        (tee_local $3
+         (i32.add
+          (i32.add
+           (i32.load offset=8
+            (get_local $0)
+           )
+           (i32.const 8)
+          )
+          (i32.shl
+           (get_local $2)
+           (i32.const 3)
+          )
+         )
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (block
+      (set_global $~argc
+       (i32.const 3)
+      )
+      (set_local $4
+       (i32.load16_u
+        (get_local $3)
+       )
+      )
+      (set_local $3
+       (i32.load16_u
+        (get_local $3)
+       )
+      )
+      (set_global $~env
+       (get_local $1)
+      )
+      (call_indirect (type $iiiv)
+       (get_local $4)
+       (get_local $3)
+       (get_local $0)
+       (i32.load
+        (get_global $~env)
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $std/set/test<u16> (; 56 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (set_local $1
+   (call $~lib/set/Set<i8>#constructor)
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 100)
+     )
+    )
+    (if
+     (call $~lib/set/Set<u16>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 8)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/set/Set<u16>#add
+     (get_local $1)
+     (get_local $0)
+    )
+    (if
+     (call $~lib/set/Set<u16>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 10)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 12)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|1
+   (set_local $0
+    (i32.const 50)
+   )
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 100)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<u16>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 16)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/set/Set<u16>#add
+     (get_local $1)
+     (get_local $0)
+    )
+    (if
+     (call $~lib/set/Set<u16>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|1)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 18)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 20)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|2
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|2
+    (br_if $break|2
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 50)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<u16>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 24)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (drop
+     (call $~lib/set/Set<u16>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/set/Set<u16>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 26)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|2)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 28)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|3
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|3
+    (br_if $break|3
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 50)
+     )
+    )
+    (if
+     (call $~lib/set/Set<u16>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 32)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/set/Set<u16>#add
+     (get_local $1)
+     (get_local $0)
+    )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<u16>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 34)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (drop
+     (call $~lib/set/Set<u16>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/set/Set<u16>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 36)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 38)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block $break|4
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<u16>#values
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<u16>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (i32.store
+     (tee_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 6)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store16 offset=4
+     (get_local $4)
+     (i32.const 0)
+    )
+    (i32.store16 offset=4
+     (get_local $4)
+     (call $~lib/iterator/Iterator<u16>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (tee_local $3
+      (i32.ge_u
+       (i32.load16_u offset=4
+        (get_local $4)
+       )
+       (i32.const 50)
+      )
+     )
+     (set_local $3
+      (i32.lt_u
+       (i32.load16_u offset=4
+        (get_local $4)
+       )
+       (i32.const 100)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (get_local $3)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 43)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (call $~lib/set/Set<u16>#has
+      (get_local $1)
+      (i32.load16_u offset=4
+       (get_local $4)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|4)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 44)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 47)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|5
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<u16>#keys
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<u16>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 6)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store16 offset=4
+     (get_local $3)
+     (i32.const 0)
+    )
+    (i32.store16 offset=4
+     (get_local $3)
+     (call $~lib/iterator/Iterator<u16>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/set/Set<u16>#has
+      (get_local $1)
+      (i32.load16_u offset=4
+       (get_local $3)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|5)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 49)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 52)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|6
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<u16>#entries
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<KeyValue<u16,u16>>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (i32.ne
+      (i32.load16_u
+       (tee_local $3
+        (call $~lib/iterator/Iterator<KeyValue<u16,u16>>#next|virtual
+         (get_local $0)
+        )
+       )
+      )
+      (i32.load16_u offset=2
+       (get_local $3)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 54)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|6)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 57)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|7
+   (set_local $3
+    (call $~lib/set/Set<u16>#keys
+     (get_local $1)
+    )
+   )
+   (loop $repeat|7
+    (br_if $break|7
+     (call $~lib/iterator/Iterator<u16>#get:done|virtual
+      (get_local $3)
+     )
+    )
+    (i32.store
+     (tee_local $0
+      (call $~lib/memory/memory.allocate
+       (i32.const 6)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store16 offset=4
+     (get_local $0)
+     (i32.const 0)
+    )
+    (i32.store16 offset=4
+     (get_local $0)
+     (call $~lib/iterator/Iterator<u16>#next|virtual
+      (get_local $3)
+     )
+    )
+    (if
+     (call $~lib/set/Set<u16>#has
+      (get_local $1)
+      (i32.load16_u offset=4
+       (get_local $0)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|7)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 59)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 62)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $3
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 3)
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (get_local $2)
+  )
+  (call $~lib/set/Set<u16>#forEach
+   (get_local $1)
+   (get_local $3)
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 67)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/set/Set<i8>#clear
+   (get_local $1)
+  )
+  (if
+   (call $~lib/set/Set<i8>#get:size
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 71)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+ )
+ (func $~lib/internal/hash/hash32 (; 57 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.mul
+   (i32.xor
+    (i32.mul
+     (i32.xor
+      (i32.mul
+       (i32.xor
+        (i32.mul
+         (i32.xor
+          (i32.and
+           (get_local $0)
+           (i32.const 255)
+          )
+          (i32.const -2128831035)
+         )
+         (i32.const 16777619)
+        )
+        (i32.and
+         (i32.shr_u
+          (get_local $0)
+          (i32.const 8)
+         )
+         (i32.const 255)
+        )
+       )
+       (i32.const 16777619)
+      )
+      (i32.and
+       (i32.shr_u
+        (get_local $0)
+        (i32.const 16)
+       )
+       (i32.const 255)
+      )
+     )
+     (i32.const 16777619)
+    )
+    (i32.shr_u
+     (get_local $0)
+     (i32.const 24)
+    )
+   )
+   (i32.const 16777619)
+  )
+ )
+ (func $~lib/internal/hash/hash<i32> (; 58 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/internal/hash/hash32
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<i32>#find (; 59 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (set_local $2
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (i32.shl
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (i32.const 2)
+     )
+    )
+   )
+  )
+  (loop $continue|0
+   (if
+    (get_local $2)
+    (block
+     (if
+      (tee_local $0
+       (i32.eqz
+        (i32.and
+         (i32.load offset=4
+          (get_local $2)
+         )
+         (i32.const 1)
+        )
+       )
+      )
+      (set_local $0
+       (i32.eq
+        (i32.load
+         (get_local $2)
+        )
+        (get_local $1)
+       )
+      )
+     )
+     (if
+      (get_local $0)
+      (return
+       (get_local $2)
+      )
+     )
+     (set_local $2
+      (i32.and
+       (i32.load offset=4
+        (get_local $2)
+       )
+       (i32.const -2)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/set/Set<i32>#has (; 60 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.ne
+   (call $~lib/set/Set<i32>#find
+    (get_local $0)
+    (get_local $1)
+    (call $~lib/internal/hash/hash<i32>
+     (get_local $1)
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/set/Set<i32>#rehash (; 61 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $4
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.shl
+     (tee_local $2
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (i32.const 2)
+    )
+    (i32.const 0)
+   )
+  )
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.shl
+     (tee_local $7
+      (i32.trunc_s/f64
+       (f64.mul
+        (f64.convert_s/i32
+         (get_local $2)
+        )
+        (f64.const 2.6666666666666665)
+       )
+      )
+     )
+     (i32.const 3)
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $8
+   (i32.add
+    (tee_local $2
+     (i32.add
+      (i32.load offset=8
+       (get_local $0)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.shl
+     (i32.load offset=16
+      (get_local $0)
+     )
+     (i32.const 3)
+    )
+   )
+  )
+  (set_local $3
+   (i32.add
+    (get_local $5)
+    (i32.const 8)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.ne
+     (get_local $2)
+     (get_local $8)
+    )
+    (block
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (block
+       (i32.store
+        (get_local $3)
+        (i32.load
+         (get_local $2)
+        )
+       )
+       (i32.store offset=4
+        (get_local $3)
+        (i32.load offset=8
+         (tee_local $6
+          (i32.add
+           (get_local $4)
+           (i32.shl
+            (i32.and
+             (tee_local $6
+              (call $~lib/internal/hash/hash32
+               (i32.load
+                (get_local $2)
+               )
+              )
+             )
+             (get_local $1)
+            )
+            (i32.const 2)
+           )
+          )
+         )
+        )
+       )
+       (i32.store offset=8
+        (get_local $6)
+        (get_local $3)
+       )
+       (set_local $3
+        (i32.add
+         (get_local $3)
+         (i32.const 8)
+        )
+       )
+      )
+     )
+     (set_local $2
+      (i32.add
+       (get_local $2)
+       (i32.const 8)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $7)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/Set<i32>#add (; 62 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eqz
+    (call $~lib/set/Set<i32>#find
+     (get_local $0)
+     (get_local $1)
+     (tee_local $4
+      (call $~lib/internal/hash/hash<i32>
+       (get_local $1)
+      )
+     )
+    )
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
+      )
+     )
+     (call $~lib/set/Set<i32>#rehash
+      (get_local $0)
+      (tee_local $2
+       (if (result i32)
+        (i32.lt_s
+         (i32.load offset=20
+          (get_local $0)
+         )
+         (i32.trunc_s/f64
+          (f64.mul
+           (f64.convert_s/i32
+            (i32.load offset=12
+             (get_local $0)
+            )
+           )
+           (f64.const 0.75)
+          )
+         )
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+        (i32.or
+         (i32.shl
+          (i32.load offset=4
+           (get_local $0)
+          )
+          (i32.const 1)
+         )
+         (i32.const 1)
+        )
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.load offset=8
+      (get_local $0)
+     )
+    )
+    (i32.store offset=16
+     (get_local $0)
+     (i32.add
+      (tee_local $3
+       (i32.load offset=16
+        (get_local $0)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store
+     (tee_local $2
+      (i32.add
+       (i32.add
+        (get_local $2)
+        (i32.const 8)
+       )
+       (i32.shl
+        (get_local $3)
+        (i32.const 3)
+       )
+      )
+     )
+     (get_local $1)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store offset=4
+     (get_local $2)
+     (i32.load offset=8
+      (tee_local $3
+       (i32.add
+        (i32.load
+         (get_local $0)
+        )
+        (i32.shl
+         (i32.and
+          (get_local $4)
+          (i32.load offset=4
+           (get_local $0)
+          )
+         )
+         (i32.const 2)
+        )
+       )
+      )
+     )
+    )
+    (i32.store offset=8
+     (get_local $3)
+     (get_local $2)
+    )
+   )
+  )
+ )
+ (func $~lib/set/Set<i32>#delete (; 63 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (tee_local $0
+     (call $~lib/set/Set<i32>#find
+      (tee_local $2
+       (get_local $0)
+      )
+      (get_local $1)
+      (tee_local $0
+       (call $~lib/internal/hash/hash32
+        (get_local $1)
+       )
+      )
+     )
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.or
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=20
+   (get_local $2)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $2)
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (tee_local $0
+    (i32.ge_u
+     (i32.add
+      (tee_local $1
+       (i32.shr_u
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+     (select
+      (i32.const 4)
+      (tee_local $0
+       (i32.load offset=20
+        (get_local $2)
+       )
+      )
+      (i32.gt_u
+       (i32.const 4)
+       (get_local $0)
+      )
+     )
+    )
+   )
+   (set_local $0
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $2)
+     )
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $2)
+        )
+       )
+       (f64.const 0.75)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (get_local $0)
+   (call $~lib/set/Set<i32>#rehash
+    (get_local $2)
+    (get_local $1)
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/set/Set<i32>#values (; 64 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 53)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/set/Set<i32>#keys (; 65 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<i32>#values
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<i32>#entries (; 66 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 58)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $std/set/test<i32>~anonymous|4 (; 67 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (if
+   (i32.ne
+    (get_local $0)
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 64)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (i32.add
+    (i32.load offset=4
+     (get_local $3)
+    )
+    (i32.const 1)
+   )
+  )
+ )
+ (func $~lib/set/Set<i32>#forEach (; 68 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (i32.load offset=16
+       (get_local $0)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (i32.and
+       (i32.load offset=4
+        (tee_local $3
+         (i32.add
+          (i32.add
+           (i32.load offset=8
+            (get_local $0)
+           )
+           (i32.const 8)
+          )
+          (i32.shl
+           (get_local $2)
+           (i32.const 3)
+          )
+         )
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (block
+      (set_global $~argc
+       (i32.const 3)
+      )
+      (set_local $4
+       (i32.load
+        (get_local $3)
+       )
+      )
+      (set_local $3
+       (i32.load
+        (get_local $3)
+       )
+      )
+      (set_global $~env
+       (get_local $1)
+      )
+      (call_indirect (type $iiiv)
+       (get_local $4)
+       (get_local $3)
+       (get_local $0)
+       (i32.load
+        (get_global $~env)
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $std/set/test<i32> (; 69 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (set_local $1
+   (call $~lib/set/Set<i8>#constructor)
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $0)
+      (i32.const 100)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 8)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/set/Set<i32>#add
+     (get_local $1)
+     (get_local $0)
+    )
+    (if
+     (call $~lib/set/Set<i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 10)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 12)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|1
+   (set_local $0
+    (i32.const 50)
+   )
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.ge_s
+      (get_local $0)
+      (i32.const 100)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 16)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/set/Set<i32>#add
+     (get_local $1)
+     (get_local $0)
+    )
+    (if
+     (call $~lib/set/Set<i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|1)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 18)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 20)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|2
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|2
+    (br_if $break|2
+     (i32.ge_s
+      (get_local $0)
+      (i32.const 50)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 24)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (drop
+     (call $~lib/set/Set<i32>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 26)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|2)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 28)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|3
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|3
+    (br_if $break|3
+     (i32.ge_s
+      (get_local $0)
+      (i32.const 50)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 32)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/set/Set<i32>#add
+     (get_local $1)
+     (get_local $0)
+    )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 34)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (drop
+     (call $~lib/set/Set<i32>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 36)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 38)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block $break|4
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<i32>#values
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<i32>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (i32.store
+     (tee_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store offset=4
+     (get_local $4)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $4)
+     (call $~lib/iterator/Iterator<i32>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (tee_local $3
+      (i32.ge_s
+       (i32.load offset=4
+        (get_local $4)
+       )
+       (i32.const 50)
+      )
+     )
+     (set_local $3
+      (i32.lt_s
+       (i32.load offset=4
+        (get_local $4)
+       )
+       (i32.const 100)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (get_local $3)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 43)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i32>#has
+      (get_local $1)
+      (i32.load offset=4
+       (get_local $4)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|4)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 44)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 47)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|5
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<i32>#keys
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<i32>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store offset=4
+     (get_local $3)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $3)
+     (call $~lib/iterator/Iterator<i32>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i32>#has
+      (get_local $1)
+      (i32.load offset=4
+       (get_local $3)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|5)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 49)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 52)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|6
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<i32>#entries
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<KeyValue<i32,i32>>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (i32.ne
+      (i32.load
+       (tee_local $3
+        (call $~lib/iterator/Iterator<KeyValue<i32,i32>>#next|virtual
+         (get_local $0)
+        )
+       )
+      )
+      (i32.load offset=4
+       (get_local $3)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 54)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|6)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 57)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|7
+   (set_local $3
+    (call $~lib/set/Set<i32>#keys
+     (get_local $1)
+    )
+   )
+   (loop $repeat|7
+    (br_if $break|7
+     (call $~lib/iterator/Iterator<i32>#get:done|virtual
+      (get_local $3)
+     )
+    )
+    (i32.store
+     (tee_local $0
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store offset=4
+     (get_local $0)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $0)
+     (call $~lib/iterator/Iterator<i32>#next|virtual
+      (get_local $3)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i32>#has
+      (get_local $1)
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|7)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 59)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 62)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $3
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 4)
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (get_local $2)
+  )
+  (call $~lib/set/Set<i32>#forEach
+   (get_local $1)
+   (get_local $3)
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 67)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/set/Set<i8>#clear
+   (get_local $1)
+  )
+  (if
+   (call $~lib/set/Set<i8>#get:size
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 71)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+ )
+ (func $~lib/set/Set<u32>#values (; 70 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 64)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/set/Set<u32>#keys (; 71 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<u32>#values
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<u32>#entries (; 72 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 69)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $std/set/test<u32> (; 73 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (set_local $1
+   (call $~lib/set/Set<i8>#constructor)
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 100)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 8)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/set/Set<i32>#add
+     (get_local $1)
+     (get_local $0)
+    )
+    (if
+     (call $~lib/set/Set<i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 10)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 12)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|1
+   (set_local $0
+    (i32.const 50)
+   )
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 100)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 16)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/set/Set<i32>#add
+     (get_local $1)
+     (get_local $0)
+    )
+    (if
+     (call $~lib/set/Set<i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|1)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 18)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 20)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|2
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|2
+    (br_if $break|2
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 50)
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
        (i32.const 24)
        (i32.const 4)
       )
       (unreachable)
      )
     )
-    (drop
-     (call $~lib/set/Set<u8>#delete
-      (get_local $1)
+    (drop
+     (call $~lib/set/Set<i32>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 26)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|2)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 28)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|3
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|3
+    (br_if $break|3
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 50)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 32)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/set/Set<i32>#add
+     (get_local $1)
+     (get_local $0)
+    )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<i32>#has
+       (get_local $1)
+       (get_local $0)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 34)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (drop
+     (call $~lib/set/Set<i32>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 36)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 38)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block $break|4
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<u32>#values
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<u32>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (i32.store
+     (tee_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store offset=4
+     (get_local $4)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $4)
+     (call $~lib/iterator/Iterator<u32>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (tee_local $3
+      (i32.ge_u
+       (i32.load offset=4
+        (get_local $4)
+       )
+       (i32.const 50)
+      )
+     )
+     (set_local $3
+      (i32.lt_u
+       (i32.load offset=4
+        (get_local $4)
+       )
+       (i32.const 100)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (get_local $3)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 43)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i32>#has
+      (get_local $1)
+      (i32.load offset=4
+       (get_local $4)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|4)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 44)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 47)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|5
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<u32>#keys
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<u32>#get:done|virtual
+      (get_local $0)
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (get_local $2)
+    )
+    (i32.store offset=4
+     (get_local $3)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $3)
+     (call $~lib/iterator/Iterator<u32>#next|virtual
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i32>#has
+      (get_local $1)
+      (i32.load offset=4
+       (get_local $3)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|5)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 49)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 52)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|6
+   (set_local $0
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<u32>#entries
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<KeyValue<u32,u32>>#get:done|virtual
       (get_local $0)
      )
     )
     (if
-     (call $~lib/set/Set<u8>#has
-      (get_local $1)
-      (get_local $0)
+     (i32.ne
+      (i32.load
+       (tee_local $3
+        (call $~lib/iterator/Iterator<KeyValue<u32,u32>>#next|virtual
+         (get_local $0)
+        )
+       )
+      )
+      (i32.load offset=4
+       (get_local $3)
+      )
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 26)
+       (i32.const 54)
        (i32.const 4)
       )
       (unreachable)
      )
      (block
-      (set_local $0
+      (i32.store offset=4
+       (get_local $2)
        (i32.add
-        (get_local $0)
+        (i32.load offset=4
+         (get_local $2)
+        )
         (i32.const 1)
        )
       )
-      (br $repeat|2)
+      (br $repeat|6)
      )
     )
    )
   )
   (if
    (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
+    (i32.load offset=4
+     (get_local $2)
     )
     (i32.const 50)
    )
@@ -2026,95 +8006,107 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 28)
+     (i32.const 57)
      (i32.const 2)
     )
     (unreachable)
    )
   )
-  (block $break|3
-   (set_local $0
-    (i32.const 0)
+  (block $break|7
+   (set_local $3
+    (call $~lib/set/Set<u32>#keys
+     (get_local $1)
+    )
    )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.ge_u
-      (get_local $0)
-      (i32.const 50)
+   (loop $repeat|7
+    (br_if $break|7
+     (call $~lib/iterator/Iterator<u32>#get:done|virtual
+      (get_local $3)
      )
     )
-    (if
-     (call $~lib/set/Set<u8>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 32)
-       (i32.const 4)
+    (i32.store
+     (tee_local $0
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
       )
-      (unreachable)
      )
+     (get_local $2)
     )
-    (call $~lib/set/Set<u8>#add
-     (get_local $1)
+    (i32.store offset=4
+     (get_local $0)
+     (i32.const 0)
+    )
+    (i32.store offset=4
      (get_local $0)
+     (call $~lib/iterator/Iterator<u32>#next|virtual
+      (get_local $3)
+     )
     )
     (if
-     (i32.eqz
-      (call $~lib/set/Set<u8>#has
-       (get_local $1)
+     (call $~lib/set/Set<i32>#has
+      (get_local $1)
+      (i32.load offset=4
        (get_local $0)
       )
      )
      (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 34)
-       (i32.const 4)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
       )
-      (unreachable)
-     )
-    )
-    (drop
-     (call $~lib/set/Set<u8>#delete
-      (get_local $1)
-      (get_local $0)
-     )
-    )
-    (if
-     (call $~lib/set/Set<u8>#has
-      (get_local $1)
-      (get_local $0)
+      (br $repeat|7)
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 36)
+       (i32.const 59)
        (i32.const 4)
       )
       (unreachable)
      )
-     (block
-      (set_local $0
-       (i32.add
-        (get_local $0)
-        (i32.const 1)
-       )
-      )
-      (br $repeat|3)
-     )
     )
    )
   )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 62)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $3
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 5)
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (get_local $2)
+  )
+  (call $~lib/set/Set<i32>#forEach
+   (get_local $1)
+   (get_local $3)
+  )
   (if
    (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
+    (i32.load offset=4
+     (get_local $2)
     )
     (i32.const 50)
    )
@@ -2122,7 +8114,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 38)
+     (i32.const 67)
      (i32.const 2)
     )
     (unreachable)
@@ -2139,46 +8131,185 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 42)
+     (i32.const 71)
      (i32.const 2)
     )
     (unreachable)
    )
   )
  )
- (func $~lib/internal/hash/hash16 (; 24 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/set/Set<i64>#clear (; 74 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+  (i32.store
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 16)
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 3)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 64)
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (i32.const 4)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/set/Set<i64>#constructor (; 75 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (local $0 i32)
+  (i32.store
+   (tee_local $0
+    (call $~lib/memory/memory.allocate
+     (i32.const 24)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.const 0)
+  )
+  (call $~lib/set/Set<i64>#clear
+   (get_local $0)
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/hash/hash64 (; 76 ;) (; has Stack IR ;) (type $Ii) (param $0 i64) (result i32)
+  (local $1 i32)
   (i32.mul
    (i32.xor
     (i32.mul
      (i32.xor
+      (i32.mul
+       (i32.xor
+        (i32.mul
+         (i32.xor
+          (i32.mul
+           (i32.xor
+            (i32.mul
+             (i32.xor
+              (i32.mul
+               (i32.xor
+                (i32.mul
+                 (i32.xor
+                  (i32.and
+                   (tee_local $1
+                    (i32.wrap/i64
+                     (get_local $0)
+                    )
+                   )
+                   (i32.const 255)
+                  )
+                  (i32.const -2128831035)
+                 )
+                 (i32.const 16777619)
+                )
+                (i32.and
+                 (i32.shr_u
+                  (get_local $1)
+                  (i32.const 8)
+                 )
+                 (i32.const 255)
+                )
+               )
+               (i32.const 16777619)
+              )
+              (i32.and
+               (i32.shr_u
+                (get_local $1)
+                (i32.const 16)
+               )
+               (i32.const 255)
+              )
+             )
+             (i32.const 16777619)
+            )
+            (i32.shr_u
+             (get_local $1)
+             (i32.const 24)
+            )
+           )
+           (i32.const 16777619)
+          )
+          (i32.and
+           (tee_local $1
+            (i32.wrap/i64
+             (i64.shr_u
+              (get_local $0)
+              (i64.const 32)
+             )
+            )
+           )
+           (i32.const 255)
+          )
+         )
+         (i32.const 16777619)
+        )
+        (i32.and
+         (i32.shr_u
+          (get_local $1)
+          (i32.const 8)
+         )
+         (i32.const 255)
+        )
+       )
+       (i32.const 16777619)
+      )
       (i32.and
-       (get_local $0)
+       (i32.shr_u
+        (get_local $1)
+        (i32.const 16)
+       )
        (i32.const 255)
       )
-      (i32.const -2128831035)
      )
      (i32.const 16777619)
     )
     (i32.shr_u
-     (get_local $0)
-     (i32.const 8)
+     (get_local $1)
+     (i32.const 24)
     )
    )
    (i32.const 16777619)
   )
  )
- (func $~lib/internal/hash/hash<i16> (; 25 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
-  (call $~lib/internal/hash/hash16
-   (i32.shr_s
-    (i32.shl
-     (get_local $0)
-     (i32.const 16)
-    )
-    (i32.const 16)
-   )
+ (func $~lib/internal/hash/hash<i64> (; 77 ;) (; has Stack IR ;) (type $Ii) (param $0 i64) (result i32)
+  (call $~lib/internal/hash/hash64
+   (get_local $0)
   )
  )
- (func $~lib/set/Set<i16>#find (; 26 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+ (func $~lib/set/Set<i64>#find (; 78 ;) (; has Stack IR ;) (type $iIii) (param $0 i32) (param $1 i64) (param $2 i32) (result i32)
   (set_local $2
    (i32.load offset=8
     (i32.add
@@ -2205,7 +8336,7 @@
       (tee_local $0
        (i32.eqz
         (i32.and
-         (i32.load offset=4
+         (i32.load offset=8
           (get_local $2)
          )
          (i32.const 1)
@@ -2213,14 +8344,11 @@
        )
       )
       (set_local $0
-       (i32.eq
-        (i32.load16_u
+       (i64.eq
+        (i64.load
          (get_local $2)
         )
-        (i32.and
-         (get_local $1)
-         (i32.const 65535)
-        )
+        (get_local $1)
        )
       )
      )
@@ -2232,7 +8360,7 @@
      )
      (set_local $2
       (i32.and
-       (i32.load offset=4
+       (i32.load offset=8
         (get_local $2)
        )
        (i32.const -2)
@@ -2244,19 +8372,19 @@
   )
   (i32.const 0)
  )
- (func $~lib/set/Set<i16>#has (; 27 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/set/Set<i64>#has (; 79 ;) (; has Stack IR ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
   (i32.ne
-   (call $~lib/set/Set<i16>#find
+   (call $~lib/set/Set<i64>#find
     (get_local $0)
     (get_local $1)
-    (call $~lib/internal/hash/hash<i16>
+    (call $~lib/internal/hash/hash<i64>
      (get_local $1)
     )
    )
    (i32.const 0)
   )
  )
- (func $~lib/set/Set<i16>#rehash (; 28 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/set/Set<i64>#rehash (; 80 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
@@ -2291,7 +8419,7 @@
        )
       )
      )
-     (i32.const 3)
+     (i32.const 4)
     )
     (i32.const 1)
    )
@@ -2310,7 +8438,7 @@
      (i32.load offset=16
       (get_local $0)
      )
-     (i32.const 3)
+     (i32.const 4)
     )
    )
   )
@@ -2330,20 +8458,20 @@
      (if
       (i32.eqz
        (i32.and
-        (i32.load offset=4
+        (i32.load offset=8
          (get_local $2)
         )
         (i32.const 1)
        )
       )
       (block
-       (i32.store16
+       (i64.store
         (get_local $3)
-        (i32.load16_s
+        (i64.load
          (get_local $2)
         )
        )
-       (i32.store offset=4
+       (i32.store offset=8
         (get_local $3)
         (i32.load offset=8
          (tee_local $6
@@ -2352,8 +8480,8 @@
            (i32.shl
             (i32.and
              (tee_local $6
-              (call $~lib/internal/hash/hash16
-               (i32.load16_s
+              (call $~lib/internal/hash/hash64
+               (i64.load
                 (get_local $2)
                )
               )
@@ -2373,7 +8501,7 @@
        (set_local $3
         (i32.add
          (get_local $3)
-         (i32.const 8)
+         (i32.const 16)
         )
        )
       )
@@ -2381,7 +8509,7 @@
      (set_local $2
       (i32.add
        (get_local $2)
-       (i32.const 8)
+       (i32.const 16)
       )
      )
      (br $continue|0)
@@ -2411,17 +8539,17 @@
    )
   )
  )
- (func $~lib/set/Set<i16>#add (; 29 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/set/Set<i64>#add (; 81 ;) (; has Stack IR ;) (type $iIv) (param $0 i32) (param $1 i64)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
   (if
    (i32.eqz
-    (call $~lib/set/Set<i16>#find
+    (call $~lib/set/Set<i64>#find
      (get_local $0)
      (get_local $1)
      (tee_local $4
-      (call $~lib/internal/hash/hash<i16>
+      (call $~lib/internal/hash/hash<i64>
        (get_local $1)
       )
      )
@@ -2437,7 +8565,7 @@
        (get_local $0)
       )
      )
-     (call $~lib/set/Set<i16>#rehash
+     (call $~lib/set/Set<i64>#rehash
       (get_local $0)
       (tee_local $2
        (if (result i32)
@@ -2488,7 +8616,7 @@
       (i32.const 1)
      )
     )
-    (i32.store16
+    (i64.store
      (tee_local $2
       (i32.add
        (i32.add
@@ -2497,7 +8625,7 @@
        )
        (i32.shl
         (get_local $3)
-        (i32.const 3)
+        (i32.const 4)
        )
       )
      )
@@ -2512,7 +8640,7 @@
       (i32.const 1)
      )
     )
-    (i32.store offset=4
+    (i32.store offset=8
      (get_local $2)
      (i32.load offset=8
       (tee_local $3
@@ -2540,25 +8668,20 @@
    )
   )
  )
- (func $~lib/set/Set<i16>#delete (; 30 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/set/Set<i64>#delete (; 82 ;) (; has Stack IR ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
   (local $2 i32)
+  (local $3 i32)
   (if
    (i32.eqz
     (tee_local $0
-     (call $~lib/set/Set<i16>#find
+     (call $~lib/set/Set<i64>#find
       (tee_local $2
        (get_local $0)
       )
       (get_local $1)
       (tee_local $0
-       (call $~lib/internal/hash/hash16
-        (i32.shr_s
-         (i32.shl
-          (get_local $1)
-          (i32.const 16)
-         )
-         (i32.const 16)
-        )
+       (call $~lib/internal/hash/hash64
+        (get_local $1)
        )
       )
      )
@@ -2568,10 +8691,10 @@
     (i32.const 0)
    )
   )
-  (i32.store offset=4
+  (i32.store offset=8
    (get_local $0)
    (i32.or
-    (i32.load offset=4
+    (i32.load offset=8
      (get_local $0)
     )
     (i32.const 1)
@@ -2590,7 +8713,7 @@
    (tee_local $0
     (i32.ge_u
      (i32.add
-      (tee_local $1
+      (tee_local $3
        (i32.shr_u
         (i32.load offset=4
          (get_local $2)
@@ -2634,29 +8757,216 @@
   )
   (if
    (get_local $0)
-   (call $~lib/set/Set<i16>#rehash
+   (call $~lib/set/Set<i64>#rehash
     (get_local $2)
-    (get_local $1)
+    (get_local $3)
    )
   )
   (i32.const 1)
  )
- (func $std/set/test<i16> (; 31 ;) (; has Stack IR ;) (type $v)
-  (local $0 i32)
+ (func $~lib/set/Set<i64>#values (; 83 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 75)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/set/Set<i64>#keys (; 84 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<i64>#values
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<i64>#entries (; 85 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 80)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $std/set/test<i64>~anonymous|6 (; 86 ;) (; has Stack IR ;) (type $IIiv) (param $0 i64) (param $1 i64) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (if
+   (i64.ne
+    (get_local $0)
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 64)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (i32.add
+    (i32.load offset=4
+     (get_local $3)
+    )
+    (i32.const 1)
+   )
+  )
+ )
+ (func $~lib/set/Set<i64>#forEach (; 87 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i64)
+  (local $5 i64)
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (i32.load offset=16
+       (get_local $0)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (i32.and
+       (i32.load offset=8
+        (tee_local $3
+         (i32.add
+          (i32.add
+           (i32.load offset=8
+            (get_local $0)
+           )
+           (i32.const 8)
+          )
+          (i32.shl
+           (get_local $2)
+           (i32.const 4)
+          )
+         )
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (block
+      (set_global $~argc
+       (i32.const 3)
+      )
+      (set_local $4
+       (i64.load
+        (get_local $3)
+       )
+      )
+      (set_local $5
+       (i64.load
+        (get_local $3)
+       )
+      )
+      (set_global $~env
+       (get_local $1)
+      )
+      (call_indirect (type $IIiv)
+       (get_local $4)
+       (get_local $5)
+       (get_local $0)
+       (i32.load
+        (get_global $~env)
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $std/set/test<i64> (; 88 ;) (; has Stack IR ;) (type $v)
+  (local $0 i64)
   (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
   (set_local $1
-   (call $~lib/set/Set<i8>#constructor)
+   (call $~lib/set/Set<i64>#constructor)
   )
   (block $break|0
    (loop $repeat|0
     (br_if $break|0
-     (i32.ge_s
+     (i64.ge_s
       (get_local $0)
-      (i32.const 100)
+      (i64.const 100)
      )
     )
     (if
-     (call $~lib/set/Set<i16>#has
+     (call $~lib/set/Set<i64>#has
       (get_local $1)
       (get_local $0)
      )
@@ -2670,20 +8980,20 @@
       (unreachable)
      )
     )
-    (call $~lib/set/Set<i16>#add
+    (call $~lib/set/Set<i64>#add
      (get_local $1)
      (get_local $0)
     )
     (if
-     (call $~lib/set/Set<i16>#has
+     (call $~lib/set/Set<i64>#has
       (get_local $1)
       (get_local $0)
      )
      (block
       (set_local $0
-       (i32.add
+       (i64.add
         (get_local $0)
-        (i32.const 1)
+        (i64.const 1)
        )
       )
       (br $repeat|0)
@@ -2719,18 +9029,18 @@
   )
   (block $break|1
    (set_local $0
-    (i32.const 50)
+    (i64.const 50)
    )
    (loop $repeat|1
     (br_if $break|1
-     (i32.ge_s
+     (i64.ge_s
       (get_local $0)
-      (i32.const 100)
+      (i64.const 100)
      )
     )
     (if
      (i32.eqz
-      (call $~lib/set/Set<i16>#has
+      (call $~lib/set/Set<i64>#has
        (get_local $1)
        (get_local $0)
       )
@@ -2745,20 +9055,20 @@
       (unreachable)
      )
     )
-    (call $~lib/set/Set<i16>#add
+    (call $~lib/set/Set<i64>#add
      (get_local $1)
      (get_local $0)
     )
     (if
-     (call $~lib/set/Set<i16>#has
+     (call $~lib/set/Set<i64>#has
       (get_local $1)
       (get_local $0)
      )
      (block
       (set_local $0
-       (i32.add
+       (i64.add
         (get_local $0)
-        (i32.const 1)
+        (i64.const 1)
        )
       )
       (br $repeat|1)
@@ -2794,18 +9104,18 @@
   )
   (block $break|2
    (set_local $0
-    (i32.const 0)
+    (i64.const 0)
    )
    (loop $repeat|2
     (br_if $break|2
-     (i32.ge_s
+     (i64.ge_s
       (get_local $0)
-      (i32.const 50)
+      (i64.const 50)
      )
     )
     (if
      (i32.eqz
-      (call $~lib/set/Set<i16>#has
+      (call $~lib/set/Set<i64>#has
        (get_local $1)
        (get_local $0)
       )
@@ -2821,13 +9131,13 @@
      )
     )
     (drop
-     (call $~lib/set/Set<i16>#delete
+     (call $~lib/set/Set<i64>#delete
       (get_local $1)
       (get_local $0)
      )
     )
     (if
-     (call $~lib/set/Set<i16>#has
+     (call $~lib/set/Set<i64>#has
       (get_local $1)
       (get_local $0)
      )
@@ -2842,9 +9152,9 @@
      )
      (block
       (set_local $0
-       (i32.add
+       (i64.add
         (get_local $0)
-        (i32.const 1)
+        (i64.const 1)
        )
       )
       (br $repeat|2)
@@ -2871,17 +9181,17 @@
   )
   (block $break|3
    (set_local $0
-    (i32.const 0)
+    (i64.const 0)
    )
    (loop $repeat|3
     (br_if $break|3
-     (i32.ge_s
+     (i64.ge_s
       (get_local $0)
-      (i32.const 50)
+      (i64.const 50)
      )
     )
     (if
-     (call $~lib/set/Set<i16>#has
+     (call $~lib/set/Set<i64>#has
       (get_local $1)
       (get_local $0)
      )
@@ -2895,13 +9205,13 @@
       (unreachable)
      )
     )
-    (call $~lib/set/Set<i16>#add
+    (call $~lib/set/Set<i64>#add
      (get_local $1)
      (get_local $0)
     )
     (if
      (i32.eqz
-      (call $~lib/set/Set<i16>#has
+      (call $~lib/set/Set<i64>#has
        (get_local $1)
        (get_local $0)
       )
@@ -2917,526 +9227,369 @@
      )
     )
     (drop
-     (call $~lib/set/Set<i16>#delete
+     (call $~lib/set/Set<i64>#delete
       (get_local $1)
       (get_local $0)
      )
     )
     (if
-     (call $~lib/set/Set<i16>#has
+     (call $~lib/set/Set<i64>#has
       (get_local $1)
       (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 36)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-     (block
-      (set_local $0
-       (i32.add
-        (get_local $0)
-        (i32.const 1)
-       )
-      )
-      (br $repeat|3)
-     )
-    )
-   )
-  )
-  (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
-    )
-    (i32.const 50)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 38)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
-  )
-  (call $~lib/set/Set<i8>#clear
-   (get_local $1)
-  )
-  (if
-   (call $~lib/set/Set<i8>#get:size
-    (get_local $1)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
-  )
- )
- (func $~lib/internal/hash/hash<u16> (; 32 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
-  (call $~lib/internal/hash/hash16
-   (i32.and
-    (get_local $0)
-    (i32.const 65535)
-   )
-  )
- )
- (func $~lib/set/Set<u16>#has (; 33 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.ne
-   (call $~lib/set/Set<i16>#find
-    (get_local $0)
-    (get_local $1)
-    (call $~lib/internal/hash/hash<u16>
-     (get_local $1)
-    )
-   )
-   (i32.const 0)
-  )
- )
- (func $~lib/set/Set<u16>#rehash (; 34 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (set_local $4
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $2
-      (i32.add
-       (get_local $1)
-       (i32.const 1)
-      )
-     )
-     (i32.const 2)
-    )
-    (i32.const 0)
-   )
-  )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $7
-      (i32.trunc_s/f64
-       (f64.mul
-        (f64.convert_s/i32
-         (get_local $2)
-        )
-        (f64.const 2.6666666666666665)
-       )
-      )
-     )
-     (i32.const 3)
-    )
-    (i32.const 1)
-   )
-  )
-  (set_local $8
-   (i32.add
-    (tee_local $2
-     (i32.add
-      (i32.load offset=8
-       (get_local $0)
-      )
-      (i32.const 8)
-     )
-    )
-    (i32.shl
-     (i32.load offset=16
-      (get_local $0)
-     )
-     (i32.const 3)
-    )
-   )
-  )
-  (set_local $3
-   (i32.add
-    (get_local $5)
-    (i32.const 8)
-   )
-  )
-  (loop $continue|0
-   (if
-    (i32.ne
-     (get_local $2)
-     (get_local $8)
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.and
-        (i32.load offset=4
-         (get_local $2)
-        )
-        (i32.const 1)
-       )
-      )
-      (block
-       (i32.store16
-        (get_local $3)
-        (i32.load16_u
-         (get_local $2)
-        )
-       )
-       (i32.store offset=4
-        (get_local $3)
-        (i32.load offset=8
-         (tee_local $6
-          (i32.add
-           (get_local $4)
-           (i32.shl
-            (i32.and
-             (tee_local $6
-              (call $~lib/internal/hash/hash16
-               (i32.load16_u
-                (get_local $2)
-               )
-              )
-             )
-             (get_local $1)
-            )
-            (i32.const 2)
-           )
-          )
-         )
-        )
-       )
-       (i32.store offset=8
-        (get_local $6)
-        (get_local $3)
-       )
-       (set_local $3
-        (i32.add
-         (get_local $3)
-         (i32.const 8)
-        )
-       )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 36)
+       (i32.const 4)
       )
+      (unreachable)
      )
-     (set_local $2
-      (i32.add
-       (get_local $2)
-       (i32.const 8)
+     (block
+      (set_local $0
+       (i64.add
+        (get_local $0)
+        (i64.const 1)
+       )
       )
+      (br $repeat|3)
      )
-     (br $continue|0)
     )
    )
   )
-  (i32.store
-   (get_local $0)
-   (get_local $4)
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 38)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
   )
   (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $7)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
-   )
+   (get_local $2)
+   (i32.const 0)
   )
- )
- (func $~lib/set/Set<u16>#add (; 35 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (if
-   (i32.eqz
-    (call $~lib/set/Set<i16>#find
-     (get_local $0)
-     (get_local $1)
-     (tee_local $4
-      (call $~lib/internal/hash/hash<u16>
-       (get_local $1)
-      )
+  (block $break|4
+   (set_local $4
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<i64>#values
+      (get_local $1)
      )
     )
    )
-   (block
-    (if
-     (i32.eq
-      (i32.load offset=16
-       (get_local $0)
-      )
-      (i32.load offset=12
-       (get_local $0)
-      )
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<i64>#get:done|virtual
+      (get_local $4)
      )
-     (call $~lib/set/Set<u16>#rehash
-      (get_local $0)
-      (tee_local $2
-       (if (result i32)
-        (i32.lt_s
-         (i32.load offset=20
-          (get_local $0)
-         )
-         (i32.trunc_s/f64
-          (f64.mul
-           (f64.convert_s/i32
-            (i32.load offset=12
-             (get_local $0)
-            )
-           )
-           (f64.const 0.75)
-          )
-         )
-        )
-        (i32.load offset=4
-         (get_local $0)
-        )
-        (i32.or
-         (i32.shl
-          (i32.load offset=4
-           (get_local $0)
-          )
-          (i32.const 1)
-         )
-         (i32.const 1)
-        )
-       )
+    )
+    (i32.store
+     (tee_local $5
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
       )
      )
+     (get_local $2)
     )
-    (set_local $2
-     (i32.load offset=8
-      (get_local $0)
+    (i64.store offset=8
+     (get_local $5)
+     (i64.const 0)
+    )
+    (i64.store offset=8
+     (get_local $5)
+     (call $~lib/iterator/Iterator<i64>#next|virtual
+      (get_local $4)
      )
     )
-    (i32.store offset=16
-     (get_local $0)
-     (i32.add
-      (tee_local $3
-       (i32.load offset=16
-        (get_local $0)
+    (if
+     (tee_local $3
+      (i64.ge_s
+       (i64.load offset=8
+        (get_local $5)
        )
+       (i64.const 50)
       )
-      (i32.const 1)
      )
-    )
-    (i32.store16
-     (tee_local $2
-      (i32.add
-       (i32.add
-        (get_local $2)
-        (i32.const 8)
-       )
-       (i32.shl
-        (get_local $3)
-        (i32.const 3)
+     (set_local $3
+      (i64.lt_s
+       (i64.load offset=8
+        (get_local $5)
        )
+       (i64.const 100)
       )
      )
-     (get_local $1)
     )
-    (i32.store offset=20
-     (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
+    (if
+     (i32.eqz
+      (get_local $3)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 43)
+       (i32.const 4)
       )
-      (i32.const 1)
+      (unreachable)
      )
     )
-    (i32.store offset=4
-     (get_local $2)
-     (i32.load offset=8
-      (tee_local $3
+    (if
+     (call $~lib/set/Set<i64>#has
+      (get_local $1)
+      (i64.load offset=8
+       (get_local $5)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
        (i32.add
-        (i32.load
-         (get_local $0)
-        )
-        (i32.shl
-         (i32.and
-          (get_local $4)
-          (i32.load offset=4
-           (get_local $0)
-          )
-         )
-         (i32.const 2)
+        (i32.load offset=4
+         (get_local $2)
         )
+        (i32.const 1)
        )
       )
+      (br $repeat|4)
      )
-    )
-    (i32.store offset=8
-     (get_local $3)
-     (get_local $2)
-    )
-   )
-  )
- )
- (func $~lib/set/Set<u16>#delete (; 36 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (if
-   (i32.eqz
-    (tee_local $0
-     (call $~lib/set/Set<i16>#find
-      (tee_local $2
-       (get_local $0)
-      )
-      (get_local $1)
-      (tee_local $0
-       (call $~lib/internal/hash/hash16
-        (i32.and
-         (get_local $1)
-         (i32.const 65535)
-        )
-       )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 44)
+       (i32.const 4)
       )
+      (unreachable)
      )
     )
    )
-   (return
-    (i32.const 0)
-   )
   )
-  (i32.store offset=4
-   (get_local $0)
-   (i32.or
+  (if
+   (i32.ne
     (i32.load offset=4
-     (get_local $0)
+     (get_local $2)
     )
-    (i32.const 1)
+    (i32.const 50)
    )
-  )
-  (i32.store offset=20
-   (get_local $2)
-   (i32.sub
-    (i32.load offset=20
-     (get_local $2)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 47)
+     (i32.const 2)
     )
-    (i32.const 1)
+    (unreachable)
    )
   )
-  (if
-   (tee_local $0
-    (i32.ge_u
-     (i32.add
-      (tee_local $1
-       (i32.shr_u
-        (i32.load offset=4
-         (get_local $2)
-        )
-        (i32.const 1)
-       )
+  (block $break|5
+   (set_local $4
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<i64>#keys
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<i64>#get:done|virtual
+      (get_local $4)
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
       )
-      (i32.const 1)
      )
-     (select
-      (i32.const 4)
-      (tee_local $0
-       (i32.load offset=20
-        (get_local $2)
-       )
-      )
-      (i32.gt_u
-       (i32.const 4)
-       (get_local $0)
-      )
+     (get_local $2)
+    )
+    (i64.store offset=8
+     (get_local $3)
+     (i64.const 0)
+    )
+    (i64.store offset=8
+     (get_local $3)
+     (call $~lib/iterator/Iterator<i64>#next|virtual
+      (get_local $4)
      )
     )
-   )
-   (set_local $0
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $2)
+    (if
+     (call $~lib/set/Set<i64>#has
+      (get_local $1)
+      (i64.load offset=8
+       (get_local $3)
+      )
      )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
          (get_local $2)
         )
+        (i32.const 1)
        )
-       (f64.const 0.75)
       )
+      (br $repeat|5)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 49)
+       (i32.const 4)
+      )
+      (unreachable)
      )
     )
    )
   )
   (if
-   (get_local $0)
-   (call $~lib/set/Set<u16>#rehash
+   (i32.load offset=4
     (get_local $2)
-    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 52)
+     (i32.const 2)
+    )
+    (unreachable)
    )
   )
-  (i32.const 1)
- )
- (func $std/set/test<u16> (; 37 ;) (; has Stack IR ;) (type $v)
-  (local $0 i32)
-  (local $1 i32)
-  (set_local $1
-   (call $~lib/set/Set<i8>#constructor)
-  )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.ge_u
-      (get_local $0)
-      (i32.const 100)
+  (block $break|6
+   (set_local $4
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<i64>#entries
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<KeyValue<i64,i64>>#get:done|virtual
+      (get_local $4)
      )
     )
     (if
-     (call $~lib/set/Set<u16>#has
-      (get_local $1)
-      (get_local $0)
+     (i64.ne
+      (i64.load
+       (tee_local $3
+        (call $~lib/iterator/Iterator<KeyValue<i64,i64>>#next|virtual
+         (get_local $4)
+        )
+       )
+      )
+      (i64.load offset=8
+       (get_local $3)
+      )
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 8)
+       (i32.const 54)
        (i32.const 4)
       )
       (unreachable)
      )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|6)
+     )
     )
-    (call $~lib/set/Set<u16>#add
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 57)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|7
+   (set_local $3
+    (call $~lib/set/Set<i64>#keys
      (get_local $1)
-     (get_local $0)
+    )
+   )
+   (loop $repeat|7
+    (br_if $break|7
+     (call $~lib/iterator/Iterator<i64>#get:done|virtual
+      (get_local $3)
+     )
+    )
+    (i32.store
+     (tee_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+     )
+     (get_local $2)
+    )
+    (i64.store offset=8
+     (get_local $4)
+     (i64.const 0)
+    )
+    (i64.store offset=8
+     (get_local $4)
+     (call $~lib/iterator/Iterator<i64>#next|virtual
+      (get_local $3)
+     )
     )
     (if
-     (call $~lib/set/Set<u16>#has
+     (call $~lib/set/Set<i64>#has
       (get_local $1)
-      (get_local $0)
+      (i64.load offset=8
+       (get_local $4)
+      )
      )
      (block
-      (set_local $0
-       (i32.add
-        (get_local $0)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
         (i32.const 1)
        )
       )
-      (br $repeat|0)
+      (br $repeat|7)
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 10)
+       (i32.const 59)
        (i32.const 4)
       )
       (unreachable)
@@ -3444,74 +9597,204 @@
     )
    )
   )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 62)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $3
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 6)
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (get_local $2)
+  )
+  (call $~lib/set/Set<i64>#forEach
+   (get_local $1)
+   (get_local $3)
+  )
   (if
    (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
+    (i32.load offset=4
+     (get_local $2)
     )
-    (i32.const 100)
+    (i32.const 50)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 12)
+     (i32.const 67)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/set/Set<i64>#clear
+   (get_local $1)
+  )
+  (if
+   (call $~lib/set/Set<i8>#get:size
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 71)
      (i32.const 2)
     )
     (unreachable)
    )
   )
-  (block $break|1
-   (set_local $0
-    (i32.const 50)
-   )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.ge_u
+ )
+ (func $~lib/set/Set<u64>#values (; 89 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 86)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/set/Set<u64>#keys (; 90 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<u64>#values
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<u64>#entries (; 91 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 91)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $std/set/test<u64> (; 92 ;) (; has Stack IR ;) (type $v)
+  (local $0 i64)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (set_local $1
+   (call $~lib/set/Set<i64>#constructor)
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i64.ge_u
       (get_local $0)
-      (i32.const 100)
+      (i64.const 100)
      )
     )
     (if
-     (i32.eqz
-      (call $~lib/set/Set<u16>#has
-       (get_local $1)
-       (get_local $0)
-      )
+     (call $~lib/set/Set<i64>#has
+      (get_local $1)
+      (get_local $0)
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 16)
+       (i32.const 8)
        (i32.const 4)
       )
       (unreachable)
      )
     )
-    (call $~lib/set/Set<u16>#add
+    (call $~lib/set/Set<i64>#add
      (get_local $1)
      (get_local $0)
     )
     (if
-     (call $~lib/set/Set<u16>#has
+     (call $~lib/set/Set<i64>#has
       (get_local $1)
       (get_local $0)
      )
      (block
       (set_local $0
-       (i32.add
+       (i64.add
         (get_local $0)
-        (i32.const 1)
+        (i64.const 1)
        )
       )
-      (br $repeat|1)
+      (br $repeat|0)
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 18)
+       (i32.const 10)
        (i32.const 4)
       )
       (unreachable)
@@ -3530,26 +9813,26 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 20)
+     (i32.const 12)
      (i32.const 2)
     )
     (unreachable)
    )
   )
-  (block $break|2
+  (block $break|1
    (set_local $0
-    (i32.const 0)
+    (i64.const 50)
    )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.ge_u
+   (loop $repeat|1
+    (br_if $break|1
+     (i64.ge_u
       (get_local $0)
-      (i32.const 50)
+      (i64.const 100)
      )
     )
     (if
      (i32.eqz
-      (call $~lib/set/Set<u16>#has
+      (call $~lib/set/Set<i64>#has
        (get_local $1)
        (get_local $0)
       )
@@ -3558,137 +9841,39 @@
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 24)
+       (i32.const 16)
        (i32.const 4)
       )
       (unreachable)
      )
     )
-    (drop
-     (call $~lib/set/Set<u16>#delete
-      (get_local $1)
-      (get_local $0)
-     )
+    (call $~lib/set/Set<i64>#add
+     (get_local $1)
+     (get_local $0)
     )
     (if
-     (call $~lib/set/Set<u16>#has
+     (call $~lib/set/Set<i64>#has
       (get_local $1)
       (get_local $0)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 26)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
      (block
       (set_local $0
-       (i32.add
+       (i64.add
         (get_local $0)
-        (i32.const 1)
+        (i64.const 1)
        )
       )
-      (br $repeat|2)
-     )
-    )
-   )
-  )
-  (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
-    )
-    (i32.const 50)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 28)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
-  )
-  (block $break|3
-   (set_local $0
-    (i32.const 0)
-   )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.ge_u
-      (get_local $0)
-      (i32.const 50)
-     )
-    )
-    (if
-     (call $~lib/set/Set<u16>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 32)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-    )
-    (call $~lib/set/Set<u16>#add
-     (get_local $1)
-     (get_local $0)
-    )
-    (if
-     (i32.eqz
-      (call $~lib/set/Set<u16>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 34)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-    )
-    (drop
-     (call $~lib/set/Set<u16>#delete
-      (get_local $1)
-      (get_local $0)
-     )
-    )
-    (if
-     (call $~lib/set/Set<u16>#has
-      (get_local $1)
-      (get_local $0)
+      (br $repeat|1)
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 36)
+       (i32.const 18)
        (i32.const 4)
       )
       (unreachable)
      )
-     (block
-      (set_local $0
-       (i32.add
-        (get_local $0)
-        (i32.const 1)
-       )
-      )
-      (br $repeat|3)
-     )
     )
    )
   )
@@ -3697,592 +9882,506 @@
     (call $~lib/set/Set<i8>#get:size
      (get_local $1)
     )
-    (i32.const 50)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 38)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
-  )
-  (call $~lib/set/Set<i8>#clear
-   (get_local $1)
-  )
-  (if
-   (call $~lib/set/Set<i8>#get:size
-    (get_local $1)
+    (i32.const 100)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 42)
+     (i32.const 20)
      (i32.const 2)
     )
     (unreachable)
    )
   )
- )
- (func $~lib/internal/hash/hash32 (; 38 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
-  (i32.mul
-   (i32.xor
-    (i32.mul
-     (i32.xor
-      (i32.mul
-       (i32.xor
-        (i32.mul
-         (i32.xor
-          (i32.and
-           (get_local $0)
-           (i32.const 255)
-          )
-          (i32.const -2128831035)
-         )
-         (i32.const 16777619)
-        )
-        (i32.and
-         (i32.shr_u
-          (get_local $0)
-          (i32.const 8)
-         )
-         (i32.const 255)
-        )
-       )
-       (i32.const 16777619)
-      )
-      (i32.and
-       (i32.shr_u
-        (get_local $0)
-        (i32.const 16)
-       )
-       (i32.const 255)
-      )
-     )
-     (i32.const 16777619)
-    )
-    (i32.shr_u
-     (get_local $0)
-     (i32.const 24)
-    )
-   )
-   (i32.const 16777619)
-  )
- )
- (func $~lib/internal/hash/hash<i32> (; 39 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
-  (call $~lib/internal/hash/hash32
-   (get_local $0)
-  )
- )
- (func $~lib/set/Set<i32>#find (; 40 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
-  (set_local $2
-   (i32.load offset=8
-    (i32.add
-     (i32.load
-      (get_local $0)
-     )
-     (i32.shl
-      (i32.and
-       (get_local $2)
-       (i32.load offset=4
-        (get_local $0)
-       )
-      )
-      (i32.const 2)
+  (block $break|2
+   (set_local $0
+    (i64.const 0)
+   )
+   (loop $repeat|2
+    (br_if $break|2
+     (i64.ge_u
+      (get_local $0)
+      (i64.const 50)
      )
     )
-   )
-  )
-  (loop $continue|0
-   (if
-    (get_local $2)
-    (block
-     (if
-      (tee_local $0
-       (i32.eqz
-        (i32.and
-         (i32.load offset=4
-          (get_local $2)
-         )
-         (i32.const 1)
-        )
-       )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<i64>#has
+       (get_local $1)
+       (get_local $0)
       )
-      (set_local $0
-       (i32.eq
-        (i32.load
-         (get_local $2)
-        )
-        (get_local $1)
-       )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 24)
+       (i32.const 4)
       )
+      (unreachable)
      )
-     (if
+    )
+    (drop
+     (call $~lib/set/Set<i64>#delete
+      (get_local $1)
       (get_local $0)
-      (return
-       (get_local $2)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i64>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 26)
+       (i32.const 4)
       )
+      (unreachable)
      )
-     (set_local $2
-      (i32.and
-       (i32.load offset=4
-        (get_local $2)
+     (block
+      (set_local $0
+       (i64.add
+        (get_local $0)
+        (i64.const 1)
        )
-       (i32.const -2)
       )
+      (br $repeat|2)
      )
-     (br $continue|0)
     )
    )
   )
-  (i32.const 0)
- )
- (func $~lib/set/Set<i32>#has (; 41 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.ne
-   (call $~lib/set/Set<i32>#find
-    (get_local $0)
-    (get_local $1)
-    (call $~lib/internal/hash/hash<i32>
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
      (get_local $1)
     )
+    (i32.const 50)
    )
-   (i32.const 0)
-  )
- )
- (func $~lib/set/Set<i32>#rehash (; 42 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (set_local $4
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $2
-      (i32.add
-       (get_local $1)
-       (i32.const 1)
-      )
-     )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 28)
      (i32.const 2)
     )
-    (i32.const 0)
+    (unreachable)
    )
   )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $7
-      (i32.trunc_s/f64
-       (f64.mul
-        (f64.convert_s/i32
-         (get_local $2)
-        )
-        (f64.const 2.6666666666666665)
-       )
+  (block $break|3
+   (set_local $0
+    (i64.const 0)
+   )
+   (loop $repeat|3
+    (br_if $break|3
+     (i64.ge_u
+      (get_local $0)
+      (i64.const 50)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i64>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 32)
+       (i32.const 4)
       )
+      (unreachable)
      )
-     (i32.const 3)
     )
-    (i32.const 1)
-   )
-  )
-  (set_local $8
-   (i32.add
-    (tee_local $2
-     (i32.add
-      (i32.load offset=8
+    (call $~lib/set/Set<i64>#add
+     (get_local $1)
+     (get_local $0)
+    )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<i64>#has
+       (get_local $1)
        (get_local $0)
       )
-      (i32.const 8)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 34)
+       (i32.const 4)
+      )
+      (unreachable)
      )
     )
-    (i32.shl
-     (i32.load offset=16
+    (drop
+     (call $~lib/set/Set<i64>#delete
+      (get_local $1)
       (get_local $0)
      )
-     (i32.const 3)
-    )
-   )
-  )
-  (set_local $3
-   (i32.add
-    (get_local $5)
-    (i32.const 8)
-   )
-  )
-  (loop $continue|0
-   (if
-    (i32.ne
-     (get_local $2)
-     (get_local $8)
     )
-    (block
-     (if
-      (i32.eqz
-       (i32.and
-        (i32.load offset=4
-         (get_local $2)
-        )
-        (i32.const 1)
-       )
-      )
-      (block
-       (i32.store
-        (get_local $3)
-        (i32.load
-         (get_local $2)
-        )
-       )
-       (i32.store offset=4
-        (get_local $3)
-        (i32.load offset=8
-         (tee_local $6
-          (i32.add
-           (get_local $4)
-           (i32.shl
-            (i32.and
-             (tee_local $6
-              (call $~lib/internal/hash/hash32
-               (i32.load
-                (get_local $2)
-               )
-              )
-             )
-             (get_local $1)
-            )
-            (i32.const 2)
-           )
-          )
-         )
-        )
-       )
-       (i32.store offset=8
-        (get_local $6)
-        (get_local $3)
-       )
-       (set_local $3
-        (i32.add
-         (get_local $3)
-         (i32.const 8)
-        )
-       )
+    (if
+     (call $~lib/set/Set<i64>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 36)
+       (i32.const 4)
       )
+      (unreachable)
      )
-     (set_local $2
-      (i32.add
-       (get_local $2)
-       (i32.const 8)
+     (block
+      (set_local $0
+       (i64.add
+        (get_local $0)
+        (i64.const 1)
+       )
       )
+      (br $repeat|3)
      )
-     (br $continue|0)
     )
    )
   )
-  (i32.store
-   (get_local $0)
-   (get_local $4)
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 38)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
   )
   (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $7)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
-   )
+   (get_local $2)
+   (i32.const 0)
   )
- )
- (func $~lib/set/Set<i32>#add (; 43 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (if
-   (i32.eqz
-    (call $~lib/set/Set<i32>#find
-     (get_local $0)
-     (get_local $1)
-     (tee_local $4
-      (call $~lib/internal/hash/hash<i32>
-       (get_local $1)
-      )
+  (block $break|4
+   (set_local $4
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<u64>#values
+      (get_local $1)
      )
     )
    )
-   (block
-    (if
-     (i32.eq
-      (i32.load offset=16
-       (get_local $0)
-      )
-      (i32.load offset=12
-       (get_local $0)
-      )
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<u64>#get:done|virtual
+      (get_local $4)
      )
-     (call $~lib/set/Set<i32>#rehash
-      (get_local $0)
-      (tee_local $2
-       (if (result i32)
-        (i32.lt_s
-         (i32.load offset=20
-          (get_local $0)
-         )
-         (i32.trunc_s/f64
-          (f64.mul
-           (f64.convert_s/i32
-            (i32.load offset=12
-             (get_local $0)
-            )
-           )
-           (f64.const 0.75)
-          )
-         )
-        )
-        (i32.load offset=4
-         (get_local $0)
-        )
-        (i32.or
-         (i32.shl
-          (i32.load offset=4
-           (get_local $0)
-          )
-          (i32.const 1)
-         )
-         (i32.const 1)
-        )
-       )
+    )
+    (i32.store
+     (tee_local $5
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
       )
      )
+     (get_local $2)
     )
-    (set_local $2
-     (i32.load offset=8
-      (get_local $0)
+    (i64.store offset=8
+     (get_local $5)
+     (i64.const 0)
+    )
+    (i64.store offset=8
+     (get_local $5)
+     (call $~lib/iterator/Iterator<u64>#next|virtual
+      (get_local $4)
      )
     )
-    (i32.store offset=16
-     (get_local $0)
-     (i32.add
-      (tee_local $3
-       (i32.load offset=16
-        (get_local $0)
+    (if
+     (tee_local $3
+      (i64.ge_u
+       (i64.load offset=8
+        (get_local $5)
        )
+       (i64.const 50)
       )
-      (i32.const 1)
      )
-    )
-    (i32.store
-     (tee_local $2
-      (i32.add
-       (i32.add
-        (get_local $2)
-        (i32.const 8)
-       )
-       (i32.shl
-        (get_local $3)
-        (i32.const 3)
+     (set_local $3
+      (i64.lt_u
+       (i64.load offset=8
+        (get_local $5)
        )
+       (i64.const 100)
       )
      )
-     (get_local $1)
     )
-    (i32.store offset=20
-     (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
+    (if
+     (i32.eqz
+      (get_local $3)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 43)
+       (i32.const 4)
       )
-      (i32.const 1)
+      (unreachable)
      )
     )
-    (i32.store offset=4
-     (get_local $2)
-     (i32.load offset=8
-      (tee_local $3
+    (if
+     (call $~lib/set/Set<i64>#has
+      (get_local $1)
+      (i64.load offset=8
+       (get_local $5)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
        (i32.add
-        (i32.load
-         (get_local $0)
-        )
-        (i32.shl
-         (i32.and
-          (get_local $4)
-          (i32.load offset=4
-           (get_local $0)
-          )
-         )
-         (i32.const 2)
+        (i32.load offset=4
+         (get_local $2)
         )
+        (i32.const 1)
        )
       )
+      (br $repeat|4)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 44)
+       (i32.const 4)
+      )
+      (unreachable)
      )
-    )
-    (i32.store offset=8
-     (get_local $3)
-     (get_local $2)
     )
    )
   )
- )
- (func $~lib/set/Set<i32>#delete (; 44 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
   (if
-   (i32.eqz
-    (tee_local $0
-     (call $~lib/set/Set<i32>#find
-      (tee_local $2
-       (get_local $0)
-      )
-      (get_local $1)
-      (tee_local $0
-       (call $~lib/internal/hash/hash32
-        (get_local $1)
-       )
-      )
-     )
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
     )
+    (i32.const 50)
    )
-   (return
-    (i32.const 0)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 47)
+     (i32.const 2)
+    )
+    (unreachable)
    )
   )
-  (i32.store offset=4
-   (get_local $0)
-   (i32.or
-    (i32.load offset=4
-     (get_local $0)
+  (block $break|5
+   (set_local $4
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<u64>#keys
+      (get_local $1)
+     )
     )
-    (i32.const 1)
    )
-  )
-  (i32.store offset=20
-   (get_local $2)
-   (i32.sub
-    (i32.load offset=20
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<u64>#get:done|virtual
+      (get_local $4)
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+     )
      (get_local $2)
     )
-    (i32.const 1)
-   )
-  )
-  (if
-   (tee_local $0
-    (i32.ge_u
-     (i32.add
-      (tee_local $1
-       (i32.shr_u
+    (i64.store offset=8
+     (get_local $3)
+     (i64.const 0)
+    )
+    (i64.store offset=8
+     (get_local $3)
+     (call $~lib/iterator/Iterator<u64>#next|virtual
+      (get_local $4)
+     )
+    )
+    (if
+     (call $~lib/set/Set<i64>#has
+      (get_local $1)
+      (i64.load offset=8
+       (get_local $3)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
         (i32.load offset=4
          (get_local $2)
         )
         (i32.const 1)
        )
       )
-      (i32.const 1)
+      (br $repeat|5)
      )
-     (select
-      (i32.const 4)
-      (tee_local $0
-       (i32.load offset=20
-        (get_local $2)
-       )
-      )
-      (i32.gt_u
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 49)
        (i32.const 4)
-       (get_local $0)
-      )
-     )
-    )
-   )
-   (set_local $0
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $2)
-     )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $2)
-        )
-       )
-       (f64.const 0.75)
       )
+      (unreachable)
      )
     )
    )
   )
   (if
-   (get_local $0)
-   (call $~lib/set/Set<i32>#rehash
+   (i32.load offset=4
     (get_local $2)
-    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 52)
+     (i32.const 2)
+    )
+    (unreachable)
    )
   )
-  (i32.const 1)
- )
- (func $std/set/test<i32> (; 45 ;) (; has Stack IR ;) (type $v)
-  (local $0 i32)
-  (local $1 i32)
-  (set_local $1
-   (call $~lib/set/Set<i8>#constructor)
-  )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.ge_s
-      (get_local $0)
-      (i32.const 100)
+  (block $break|6
+   (set_local $4
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<u64>#entries
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<KeyValue<u64,u64>>#get:done|virtual
+      (get_local $4)
      )
     )
     (if
-     (call $~lib/set/Set<i32>#has
-      (get_local $1)
-      (get_local $0)
+     (i64.ne
+      (i64.load
+       (tee_local $3
+        (call $~lib/iterator/Iterator<KeyValue<u64,u64>>#next|virtual
+         (get_local $4)
+        )
+       )
+      )
+      (i64.load offset=8
+       (get_local $3)
+      )
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 8)
+       (i32.const 54)
        (i32.const 4)
       )
       (unreachable)
      )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|6)
+     )
     )
-    (call $~lib/set/Set<i32>#add
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 57)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|7
+   (set_local $3
+    (call $~lib/set/Set<u64>#keys
      (get_local $1)
-     (get_local $0)
+    )
+   )
+   (loop $repeat|7
+    (br_if $break|7
+     (call $~lib/iterator/Iterator<u64>#get:done|virtual
+      (get_local $3)
+     )
+    )
+    (i32.store
+     (tee_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+     )
+     (get_local $2)
+    )
+    (i64.store offset=8
+     (get_local $4)
+     (i64.const 0)
+    )
+    (i64.store offset=8
+     (get_local $4)
+     (call $~lib/iterator/Iterator<u64>#next|virtual
+      (get_local $3)
+     )
     )
     (if
-     (call $~lib/set/Set<i32>#has
+     (call $~lib/set/Set<i64>#has
       (get_local $1)
-      (get_local $0)
+      (i64.load offset=8
+       (get_local $4)
+      )
      )
      (block
-      (set_local $0
-       (i32.add
-        (get_local $0)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
         (i32.const 1)
        )
       )
-      (br $repeat|0)
+      (br $repeat|7)
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 10)
+       (i32.const 59)
        (i32.const 4)
       )
       (unreachable)
@@ -4290,530 +10389,742 @@
     )
    )
   )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 62)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $3
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 7)
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (get_local $2)
+  )
+  (call $~lib/set/Set<i64>#forEach
+   (get_local $1)
+   (get_local $3)
+  )
   (if
    (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
+    (i32.load offset=4
+     (get_local $2)
     )
-    (i32.const 100)
+    (i32.const 50)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 12)
+     (i32.const 67)
      (i32.const 2)
     )
     (unreachable)
    )
   )
-  (block $break|1
-   (set_local $0
-    (i32.const 50)
+  (call $~lib/set/Set<i64>#clear
+   (get_local $1)
+  )
+  (if
+   (call $~lib/set/Set<i8>#get:size
+    (get_local $1)
    )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.ge_s
-      (get_local $0)
-      (i32.const 100)
-     )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 71)
+     (i32.const 2)
     )
-    (if
-     (i32.eqz
-      (call $~lib/set/Set<i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
+    (unreachable)
+   )
+  )
+ )
+ (func $~lib/internal/hash/hash<f32> (; 93 ;) (; has Stack IR ;) (type $fi) (param $0 f32) (result i32)
+  (call $~lib/internal/hash/hash32
+   (i32.reinterpret/f32
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/Set<f32>#find (; 94 ;) (; has Stack IR ;) (type $ifii) (param $0 i32) (param $1 f32) (param $2 i32) (result i32)
+  (set_local $2
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (get_local $0)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 16)
-       (i32.const 4)
+     (i32.shl
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
+       )
       )
-      (unreachable)
+      (i32.const 2)
      )
     )
-    (call $~lib/set/Set<i32>#add
-     (get_local $1)
-     (get_local $0)
-    )
-    (if
-     (call $~lib/set/Set<i32>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
+   )
+  )
+  (loop $continue|0
+   (if
+    (get_local $2)
+    (block
+     (if
+      (tee_local $0
+       (i32.eqz
+        (i32.and
+         (i32.load offset=4
+          (get_local $2)
+         )
+         (i32.const 1)
+        )
+       )
+      )
       (set_local $0
-       (i32.add
-        (get_local $0)
-        (i32.const 1)
+       (f32.eq
+        (f32.load
+         (get_local $2)
+        )
+        (get_local $1)
        )
       )
-      (br $repeat|1)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 18)
-       (i32.const 4)
+     (if
+      (get_local $0)
+      (return
+       (get_local $2)
+      )
+     )
+     (set_local $2
+      (i32.and
+       (i32.load offset=4
+        (get_local $2)
+       )
+       (i32.const -2)
       )
-      (unreachable)
      )
+     (br $continue|0)
     )
    )
   )
-  (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
+  (i32.const 0)
+ )
+ (func $~lib/set/Set<f32>#has (; 95 ;) (; has Stack IR ;) (type $ifi) (param $0 i32) (param $1 f32) (result i32)
+  (i32.ne
+   (call $~lib/set/Set<f32>#find
+    (get_local $0)
+    (get_local $1)
+    (call $~lib/internal/hash/hash<f32>
      (get_local $1)
     )
-    (i32.const 100)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 20)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/set/Set<f32>#rehash (; 96 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $4
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.shl
+     (tee_local $2
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
      (i32.const 2)
     )
-    (unreachable)
-   )
-  )
-  (block $break|2
-   (set_local $0
     (i32.const 0)
    )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.ge_s
-      (get_local $0)
-      (i32.const 50)
+  )
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.shl
+     (tee_local $7
+      (i32.trunc_s/f64
+       (f64.mul
+        (f64.convert_s/i32
+         (get_local $2)
+        )
+        (f64.const 2.6666666666666665)
+       )
+      )
      )
+     (i32.const 3)
     )
-    (if
-     (i32.eqz
-      (call $~lib/set/Set<i32>#has
-       (get_local $1)
+    (i32.const 1)
+   )
+  )
+  (set_local $8
+   (i32.add
+    (tee_local $2
+     (i32.add
+      (i32.load offset=8
        (get_local $0)
       )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 24)
-       (i32.const 4)
-      )
-      (unreachable)
+      (i32.const 8)
      )
     )
-    (drop
-     (call $~lib/set/Set<i32>#delete
-      (get_local $1)
+    (i32.shl
+     (i32.load offset=16
       (get_local $0)
      )
+     (i32.const 3)
     )
-    (if
-     (call $~lib/set/Set<i32>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 26)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-     (block
-      (set_local $0
-       (i32.add
-        (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.add
+    (get_local $5)
+    (i32.const 8)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.ne
+     (get_local $2)
+     (get_local $8)
+    )
+    (block
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=4
+         (get_local $2)
+        )
         (i32.const 1)
        )
       )
-      (br $repeat|2)
+      (block
+       (f32.store
+        (get_local $3)
+        (f32.load
+         (get_local $2)
+        )
+       )
+       (i32.store offset=4
+        (get_local $3)
+        (i32.load offset=8
+         (tee_local $6
+          (i32.add
+           (get_local $4)
+           (i32.shl
+            (i32.and
+             (tee_local $6
+              (call $~lib/internal/hash/hash32
+               (i32.reinterpret/f32
+                (f32.load
+                 (get_local $2)
+                )
+               )
+              )
+             )
+             (get_local $1)
+            )
+            (i32.const 2)
+           )
+          )
+         )
+        )
+       )
+       (i32.store offset=8
+        (get_local $6)
+        (get_local $3)
+       )
+       (set_local $3
+        (i32.add
+         (get_local $3)
+         (i32.const 8)
+        )
+       )
+      )
+     )
+     (set_local $2
+      (i32.add
+       (get_local $2)
+       (i32.const 8)
+      )
      )
+     (br $continue|0)
     )
    )
   )
-  (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
-    )
-    (i32.const 50)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 28)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
+  (i32.store
+   (get_local $0)
+   (get_local $4)
   )
-  (block $break|3
-   (set_local $0
-    (i32.const 0)
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $7)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
    )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.ge_s
-      (get_local $0)
-      (i32.const 50)
-     )
-    )
-    (if
-     (call $~lib/set/Set<i32>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 32)
-       (i32.const 4)
+  )
+ )
+ (func $~lib/set/Set<f32>#add (; 97 ;) (; has Stack IR ;) (type $ifv) (param $0 i32) (param $1 f32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eqz
+    (call $~lib/set/Set<f32>#find
+     (get_local $0)
+     (get_local $1)
+     (tee_local $4
+      (call $~lib/internal/hash/hash<f32>
+       (get_local $1)
       )
-      (unreachable)
      )
     )
-    (call $~lib/set/Set<i32>#add
-     (get_local $1)
-     (get_local $0)
-    )
+   )
+   (block
     (if
-     (i32.eqz
-      (call $~lib/set/Set<i32>#has
-       (get_local $1)
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
        (get_local $0)
       )
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 34)
-       (i32.const 4)
+     (call $~lib/set/Set<f32>#rehash
+      (get_local $0)
+      (tee_local $2
+       (if (result i32)
+        (i32.lt_s
+         (i32.load offset=20
+          (get_local $0)
+         )
+         (i32.trunc_s/f64
+          (f64.mul
+           (f64.convert_s/i32
+            (i32.load offset=12
+             (get_local $0)
+            )
+           )
+           (f64.const 0.75)
+          )
+         )
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+        (i32.or
+         (i32.shl
+          (i32.load offset=4
+           (get_local $0)
+          )
+          (i32.const 1)
+         )
+         (i32.const 1)
+        )
+       )
       )
-      (unreachable)
      )
     )
-    (drop
-     (call $~lib/set/Set<i32>#delete
-      (get_local $1)
+    (set_local $2
+     (i32.load offset=8
       (get_local $0)
      )
     )
-    (if
-     (call $~lib/set/Set<i32>#has
-      (get_local $1)
-      (get_local $0)
+    (i32.store offset=16
+     (get_local $0)
+     (i32.add
+      (tee_local $3
+       (i32.load offset=16
+        (get_local $0)
+       )
+      )
+      (i32.const 1)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 36)
-       (i32.const 4)
+    )
+    (f32.store
+     (tee_local $2
+      (i32.add
+       (i32.add
+        (get_local $2)
+        (i32.const 8)
+       )
+       (i32.shl
+        (get_local $3)
+        (i32.const 3)
+       )
       )
-      (unreachable)
      )
-     (block
-      (set_local $0
+     (get_local $1)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store offset=4
+     (get_local $2)
+     (i32.load offset=8
+      (tee_local $3
        (i32.add
-        (get_local $0)
-        (i32.const 1)
+        (i32.load
+         (get_local $0)
+        )
+        (i32.shl
+         (i32.and
+          (get_local $4)
+          (i32.load offset=4
+           (get_local $0)
+          )
+         )
+         (i32.const 2)
+        )
        )
       )
-      (br $repeat|3)
      )
     )
+    (i32.store offset=8
+     (get_local $3)
+     (get_local $2)
+    )
    )
   )
+ )
+ (func $~lib/set/Set<f32>#delete (; 98 ;) (; has Stack IR ;) (type $ifi) (param $0 i32) (param $1 f32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
   (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
+   (i32.eqz
+    (tee_local $0
+     (call $~lib/set/Set<f32>#find
+      (tee_local $2
+       (get_local $0)
+      )
+      (get_local $1)
+      (tee_local $0
+       (call $~lib/internal/hash/hash32
+        (i32.reinterpret/f32
+         (get_local $1)
+        )
+       )
+      )
+     )
     )
-    (i32.const 50)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 38)
-     (i32.const 2)
-    )
-    (unreachable)
+   (return
+    (i32.const 0)
    )
   )
-  (call $~lib/set/Set<i8>#clear
-   (get_local $1)
-  )
-  (if
-   (call $~lib/set/Set<i8>#get:size
-    (get_local $1)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
+  (i32.store offset=4
+   (get_local $0)
+   (i32.or
+    (i32.load offset=4
+     (get_local $0)
     )
-    (unreachable)
+    (i32.const 1)
    )
   )
- )
- (func $std/set/test<u32> (; 46 ;) (; has Stack IR ;) (type $v)
-  (local $0 i32)
-  (local $1 i32)
-  (set_local $1
-   (call $~lib/set/Set<i8>#constructor)
-  )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.ge_u
-      (get_local $0)
-      (i32.const 100)
-     )
+  (i32.store offset=20
+   (get_local $2)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $2)
     )
-    (if
-     (call $~lib/set/Set<i32>#has
-      (get_local $1)
-      (get_local $0)
+    (i32.const 1)
+   )
+  )
+  (if
+   (tee_local $0
+    (i32.ge_u
+     (i32.add
+      (tee_local $3
+       (i32.shr_u
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 8)
+     (select
+      (i32.const 4)
+      (tee_local $0
+       (i32.load offset=20
+        (get_local $2)
+       )
+      )
+      (i32.gt_u
        (i32.const 4)
+       (get_local $0)
       )
-      (unreachable)
      )
     )
-    (call $~lib/set/Set<i32>#add
-     (get_local $1)
-     (get_local $0)
-    )
-    (if
-     (call $~lib/set/Set<i32>#has
-      (get_local $1)
-      (get_local $0)
+   )
+   (set_local $0
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $2)
      )
-     (block
-      (set_local $0
-       (i32.add
-        (get_local $0)
-        (i32.const 1)
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $2)
+        )
        )
+       (f64.const 0.75)
       )
-      (br $repeat|0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 10)
-       (i32.const 4)
-      )
-      (unreachable)
      )
     )
    )
   )
   (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
-    )
-    (i32.const 100)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 12)
-     (i32.const 2)
-    )
-    (unreachable)
+   (get_local $0)
+   (call $~lib/set/Set<f32>#rehash
+    (get_local $2)
+    (get_local $3)
    )
   )
-  (block $break|1
-   (set_local $0
-    (i32.const 50)
-   )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.ge_u
-      (get_local $0)
-      (i32.const 100)
-     )
-    )
-    (if
-     (i32.eqz
-      (call $~lib/set/Set<i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
+  (i32.const 1)
+ )
+ (func $~lib/set/Set<f32>#values (; 99 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
        (i32.const 16)
-       (i32.const 4)
       )
-      (unreachable)
+      (i32.const 8)
      )
     )
-    (call $~lib/set/Set<i32>#add
-     (get_local $1)
-     (get_local $0)
-    )
-    (if
-     (call $~lib/set/Set<i32>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (set_local $0
-       (i32.add
-        (get_local $0)
-        (i32.const 1)
-       )
-      )
-      (br $repeat|1)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 18)
-       (i32.const 4)
+    (i32.const 4)
+   )
+   (i32.const 97)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/set/Set<f32>#keys (; 100 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<f32>#values
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<f32>#entries (; 101 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
       )
-      (unreachable)
+      (i32.const 8)
      )
     )
+    (i32.const 4)
+   )
+   (i32.const 102)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $std/set/test<f32>~anonymous|8 (; 102 ;) (; has Stack IR ;) (type $ffiv) (param $0 f32) (param $1 f32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
    )
   )
   (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
-    )
-    (i32.const 100)
+   (f32.ne
+    (get_local $0)
+    (get_local $1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 20)
-     (i32.const 2)
+     (i32.const 64)
+     (i32.const 4)
     )
     (unreachable)
    )
   )
-  (block $break|2
-   (set_local $0
-    (i32.const 0)
+  (i32.store offset=4
+   (get_local $3)
+   (i32.add
+    (i32.load offset=4
+     (get_local $3)
+    )
+    (i32.const 1)
    )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.ge_u
-      (get_local $0)
-      (i32.const 50)
+  )
+ )
+ (func $~lib/set/Set<f32>#forEach (; 103 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 f32)
+  (local $5 f32)
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (i32.load offset=16
+       (get_local $0)
+      )
      )
     )
     (if
      (i32.eqz
-      (call $~lib/set/Set<i32>#has
-       (get_local $1)
-       (get_local $0)
+      (i32.and
+       (i32.load offset=4
+        (tee_local $3
+         (i32.add
+          (i32.add
+           (i32.load offset=8
+            (get_local $0)
+           )
+           (i32.const 8)
+          )
+          (i32.shl
+           (get_local $2)
+           (i32.const 3)
+          )
+         )
+        )
+       )
+       (i32.const 1)
       )
      )
      (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 24)
-       (i32.const 4)
+      (set_global $~argc
+       (i32.const 3)
       )
-      (unreachable)
-     )
-    )
-    (drop
-     (call $~lib/set/Set<i32>#delete
-      (get_local $1)
-      (get_local $0)
-     )
-    )
-    (if
-     (call $~lib/set/Set<i32>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 26)
-       (i32.const 4)
+      (set_local $4
+       (f32.load
+        (get_local $3)
+       )
       )
-      (unreachable)
-     )
-     (block
-      (set_local $0
-       (i32.add
-        (get_local $0)
-        (i32.const 1)
+      (set_local $5
+       (f32.load
+        (get_local $3)
+       )
+      )
+      (set_global $~env
+       (get_local $1)
+      )
+      (call_indirect (type $ffiv)
+       (get_local $4)
+       (get_local $5)
+       (get_local $0)
+       (i32.load
+        (get_global $~env)
        )
       )
-      (br $repeat|2)
      )
     )
-   )
-  )
-  (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
     )
-    (i32.const 50)
+    (br $repeat|0)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 28)
-     (i32.const 2)
+  )
+ )
+ (func $std/set/test<f32> (; 104 ;) (; has Stack IR ;) (type $v)
+  (local $0 f32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
     )
-    (unreachable)
    )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (set_local $1
+   (call $~lib/set/Set<i8>#constructor)
   )
-  (block $break|3
-   (set_local $0
-    (i32.const 0)
-   )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.ge_u
-      (get_local $0)
-      (i32.const 50)
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (f32.lt
+       (get_local $0)
+       (f32.const 100)
+      )
      )
     )
     (if
-     (call $~lib/set/Set<i32>#has
+     (call $~lib/set/Set<f32>#has
       (get_local $1)
       (get_local $0)
      )
@@ -4821,62 +11132,39 @@
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 32)
+       (i32.const 8)
        (i32.const 4)
       )
       (unreachable)
      )
     )
-    (call $~lib/set/Set<i32>#add
+    (call $~lib/set/Set<f32>#add
      (get_local $1)
      (get_local $0)
     )
     (if
-     (i32.eqz
-      (call $~lib/set/Set<i32>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 34)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-    )
-    (drop
-     (call $~lib/set/Set<i32>#delete
+     (call $~lib/set/Set<f32>#has
       (get_local $1)
       (get_local $0)
      )
-    )
-    (if
-     (call $~lib/set/Set<i32>#has
-      (get_local $1)
-      (get_local $0)
+     (block
+      (set_local $0
+       (f32.add
+        (get_local $0)
+        (f32.const 1)
+       )
+      )
+      (br $repeat|0)
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 36)
+       (i32.const 10)
        (i32.const 4)
       )
       (unreachable)
      )
-     (block
-      (set_local $0
-       (i32.add
-        (get_local $0)
-        (i32.const 1)
-       )
-      )
-      (br $repeat|3)
-     )
     )
    )
   )
@@ -4885,1243 +11173,1330 @@
     (call $~lib/set/Set<i8>#get:size
      (get_local $1)
     )
-    (i32.const 50)
+    (i32.const 100)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 38)
+     (i32.const 12)
      (i32.const 2)
     )
     (unreachable)
    )
   )
-  (call $~lib/set/Set<i8>#clear
-   (get_local $1)
-  )
-  (if
-   (call $~lib/set/Set<i8>#get:size
-    (get_local $1)
+  (block $break|1
+   (set_local $0
+    (f32.const 50)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.eqz
+      (f32.lt
+       (get_local $0)
+       (f32.const 100)
+      )
+     )
     )
-    (unreachable)
-   )
-  )
- )
- (func $~lib/set/Set<i64>#clear (; 47 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
-  (i32.store
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 16)
-    (i32.const 0)
-   )
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (i32.const 3)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 64)
-    (i32.const 1)
-   )
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (i32.const 4)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.const 0)
-  )
- )
- (func $~lib/set/Set<i64>#constructor (; 48 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
-  (local $0 i32)
-  (i32.store
-   (tee_local $0
-    (call $~lib/memory/memory.allocate)
-   )
-   (i32.const 0)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.const 0)
-  )
-  (call $~lib/set/Set<i64>#clear
-   (get_local $0)
-  )
-  (get_local $0)
- )
- (func $~lib/internal/hash/hash64 (; 49 ;) (; has Stack IR ;) (type $Ii) (param $0 i64) (result i32)
-  (local $1 i32)
-  (i32.mul
-   (i32.xor
-    (i32.mul
-     (i32.xor
-      (i32.mul
-       (i32.xor
-        (i32.mul
-         (i32.xor
-          (i32.mul
-           (i32.xor
-            (i32.mul
-             (i32.xor
-              (i32.mul
-               (i32.xor
-                (i32.mul
-                 (i32.xor
-                  (i32.and
-                   (tee_local $1
-                    (i32.wrap/i64
-                     (get_local $0)
-                    )
-                   )
-                   (i32.const 255)
-                  )
-                  (i32.const -2128831035)
-                 )
-                 (i32.const 16777619)
-                )
-                (i32.and
-                 (i32.shr_u
-                  (get_local $1)
-                  (i32.const 8)
-                 )
-                 (i32.const 255)
-                )
-               )
-               (i32.const 16777619)
-              )
-              (i32.and
-               (i32.shr_u
-                (get_local $1)
-                (i32.const 16)
-               )
-               (i32.const 255)
-              )
-             )
-             (i32.const 16777619)
-            )
-            (i32.shr_u
-             (get_local $1)
-             (i32.const 24)
-            )
-           )
-           (i32.const 16777619)
-          )
-          (i32.and
-           (tee_local $1
-            (i32.wrap/i64
-             (i64.shr_u
-              (get_local $0)
-              (i64.const 32)
-             )
-            )
-           )
-           (i32.const 255)
-          )
-         )
-         (i32.const 16777619)
-        )
-        (i32.and
-         (i32.shr_u
-          (get_local $1)
-          (i32.const 8)
-         )
-         (i32.const 255)
-        )
-       )
-       (i32.const 16777619)
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<f32>#has
+       (get_local $1)
+       (get_local $0)
       )
-      (i32.and
-       (i32.shr_u
-        (get_local $1)
-        (i32.const 16)
-       )
-       (i32.const 255)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 16)
+       (i32.const 4)
       )
+      (unreachable)
      )
-     (i32.const 16777619)
     )
-    (i32.shr_u
+    (call $~lib/set/Set<f32>#add
      (get_local $1)
-     (i32.const 24)
+     (get_local $0)
     )
-   )
-   (i32.const 16777619)
-  )
- )
- (func $~lib/internal/hash/hash<i64> (; 50 ;) (; has Stack IR ;) (type $Ii) (param $0 i64) (result i32)
-  (call $~lib/internal/hash/hash64
-   (get_local $0)
-  )
- )
- (func $~lib/set/Set<i64>#find (; 51 ;) (; has Stack IR ;) (type $iIii) (param $0 i32) (param $1 i64) (param $2 i32) (result i32)
-  (set_local $2
-   (i32.load offset=8
-    (i32.add
-     (i32.load
+    (if
+     (call $~lib/set/Set<f32>#has
+      (get_local $1)
       (get_local $0)
      )
-     (i32.shl
-      (i32.and
-       (get_local $2)
-       (i32.load offset=4
+     (block
+      (set_local $0
+       (f32.add
         (get_local $0)
+        (f32.const 1)
        )
       )
-      (i32.const 2)
+      (br $repeat|1)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 18)
+       (i32.const 4)
+      )
+      (unreachable)
      )
     )
    )
   )
-  (loop $continue|0
-   (if
-    (get_local $2)
-    (block
-     (if
-      (tee_local $0
-       (i32.eqz
-        (i32.and
-         (i32.load offset=8
-          (get_local $2)
-         )
-         (i32.const 1)
-        )
-       )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 20)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|2
+   (set_local $0
+    (f32.const 0)
+   )
+   (loop $repeat|2
+    (br_if $break|2
+     (i32.eqz
+      (f32.lt
+       (get_local $0)
+       (f32.const 50)
       )
-      (set_local $0
-       (i64.eq
-        (i64.load
-         (get_local $2)
-        )
-        (get_local $1)
-       )
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<f32>#has
+       (get_local $1)
+       (get_local $0)
       )
      )
-     (if
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 24)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (drop
+     (call $~lib/set/Set<f32>#delete
+      (get_local $1)
       (get_local $0)
-      (return
-       (get_local $2)
+     )
+    )
+    (if
+     (call $~lib/set/Set<f32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 26)
+       (i32.const 4)
       )
+      (unreachable)
      )
-     (set_local $2
-      (i32.and
-       (i32.load offset=8
-        (get_local $2)
+     (block
+      (set_local $0
+       (f32.add
+        (get_local $0)
+        (f32.const 1)
        )
-       (i32.const -2)
       )
+      (br $repeat|2)
      )
-     (br $continue|0)
     )
    )
   )
-  (i32.const 0)
- )
- (func $~lib/set/Set<i64>#has (; 52 ;) (; has Stack IR ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
-  (i32.ne
-   (call $~lib/set/Set<i64>#find
-    (get_local $0)
-    (get_local $1)
-    (call $~lib/internal/hash/hash<i64>
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
      (get_local $1)
     )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 28)
+     (i32.const 2)
+    )
+    (unreachable)
    )
-   (i32.const 0)
   )
- )
- (func $~lib/set/Set<i64>#rehash (; 53 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (set_local $4
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $2
-      (i32.add
+  (block $break|3
+   (set_local $0
+    (f32.const 0)
+   )
+   (loop $repeat|3
+    (br_if $break|3
+     (i32.eqz
+      (f32.lt
+       (get_local $0)
+       (f32.const 50)
+      )
+     )
+    )
+    (if
+     (call $~lib/set/Set<f32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 32)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/set/Set<f32>#add
+     (get_local $1)
+     (get_local $0)
+    )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<f32>#has
        (get_local $1)
-       (i32.const 1)
+       (get_local $0)
       )
      )
-     (i32.const 2)
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 34)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
     )
-    (i32.const 0)
-   )
-  )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $7
-      (i32.trunc_s/f64
-       (f64.mul
-        (f64.convert_s/i32
-         (get_local $2)
-        )
-        (f64.const 2.6666666666666665)
+    (drop
+     (call $~lib/set/Set<f32>#delete
+      (get_local $1)
+      (get_local $0)
+     )
+    )
+    (if
+     (call $~lib/set/Set<f32>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 36)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (f32.add
+        (get_local $0)
+        (f32.const 1)
        )
       )
+      (br $repeat|3)
      )
-     (i32.const 4)
     )
-    (i32.const 1)
    )
   )
-  (set_local $8
-   (i32.add
-    (tee_local $2
-     (i32.add
-      (i32.load offset=8
-       (get_local $0)
-      )
-      (i32.const 8)
-     )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
     )
-    (i32.shl
-     (i32.load offset=16
-      (get_local $0)
-     )
-     (i32.const 4)
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 38)
+     (i32.const 2)
     )
+    (unreachable)
    )
   )
-  (set_local $3
-   (i32.add
-    (get_local $5)
-    (i32.const 8)
-   )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
   )
-  (loop $continue|0
-   (if
-    (i32.ne
+  (block $break|4
+   (set_local $4
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<f32>#values
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<f32>#get:done|virtual
+      (get_local $4)
+     )
+    )
+    (i32.store
+     (tee_local $5
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
      (get_local $2)
-     (get_local $8)
     )
-    (block
-     (if
-      (i32.eqz
-       (i32.and
-        (i32.load offset=8
-         (get_local $2)
-        )
-        (i32.const 1)
+    (f32.store offset=4
+     (get_local $5)
+     (f32.const 0)
+    )
+    (f32.store offset=4
+     (get_local $5)
+     (call $~lib/iterator/Iterator<f32>#next|virtual
+      (get_local $4)
+     )
+    )
+    (if
+     (tee_local $3
+      (f32.ge
+       (f32.load offset=4
+        (get_local $5)
        )
+       (f32.const 50)
       )
-      (block
-       (i64.store
-        (get_local $3)
-        (i64.load
-         (get_local $2)
-        )
-       )
-       (i32.store offset=8
-        (get_local $3)
-        (i32.load offset=8
-         (tee_local $6
-          (i32.add
-           (get_local $4)
-           (i32.shl
-            (i32.and
-             (tee_local $6
-              (call $~lib/internal/hash/hash64
-               (i64.load
-                (get_local $2)
-               )
-              )
-             )
-             (get_local $1)
-            )
-            (i32.const 2)
-           )
-          )
-         )
-        )
-       )
-       (i32.store offset=8
-        (get_local $6)
-        (get_local $3)
+     )
+     (set_local $3
+      (f32.lt
+       (f32.load offset=4
+        (get_local $5)
        )
-       (set_local $3
-        (i32.add
-         (get_local $3)
-         (i32.const 16)
+       (f32.const 100)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (get_local $3)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 43)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (call $~lib/set/Set<f32>#has
+      (get_local $1)
+      (f32.load offset=4
+       (get_local $5)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
         )
+        (i32.const 1)
        )
       )
+      (br $repeat|4)
      )
-     (set_local $2
-      (i32.add
-       (get_local $2)
-       (i32.const 16)
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 44)
+       (i32.const 4)
       )
+      (unreachable)
      )
-     (br $continue|0)
     )
    )
   )
-  (i32.store
-   (get_local $0)
-   (get_local $4)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $7)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 47)
+     (i32.const 2)
+    )
+    (unreachable)
    )
   )
- )
- (func $~lib/set/Set<i64>#add (; 54 ;) (; has Stack IR ;) (type $iIv) (param $0 i32) (param $1 i64)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (if
-   (i32.eqz
-    (call $~lib/set/Set<i64>#find
-     (get_local $0)
-     (get_local $1)
-     (tee_local $4
-      (call $~lib/internal/hash/hash<i64>
-       (get_local $1)
-      )
+  (block $break|5
+   (set_local $4
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<f32>#keys
+      (get_local $1)
      )
     )
    )
-   (block
-    (if
-     (i32.eq
-      (i32.load offset=16
-       (get_local $0)
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<f32>#get:done|virtual
+      (get_local $4)
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
       )
-      (i32.load offset=12
-       (get_local $0)
+     )
+     (get_local $2)
+    )
+    (f32.store offset=4
+     (get_local $3)
+     (f32.const 0)
+    )
+    (f32.store offset=4
+     (get_local $3)
+     (call $~lib/iterator/Iterator<f32>#next|virtual
+      (get_local $4)
+     )
+    )
+    (if
+     (call $~lib/set/Set<f32>#has
+      (get_local $1)
+      (f32.load offset=4
+       (get_local $3)
       )
      )
-     (call $~lib/set/Set<i64>#rehash
-      (get_local $0)
-      (tee_local $2
-       (if (result i32)
-        (i32.lt_s
-         (i32.load offset=20
-          (get_local $0)
-         )
-         (i32.trunc_s/f64
-          (f64.mul
-           (f64.convert_s/i32
-            (i32.load offset=12
-             (get_local $0)
-            )
-           )
-           (f64.const 0.75)
-          )
-         )
-        )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
         (i32.load offset=4
-         (get_local $0)
-        )
-        (i32.or
-         (i32.shl
-          (i32.load offset=4
-           (get_local $0)
-          )
-          (i32.const 1)
-         )
-         (i32.const 1)
+         (get_local $2)
         )
+        (i32.const 1)
        )
       )
+      (br $repeat|5)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 49)
+       (i32.const 4)
+      )
+      (unreachable)
      )
     )
-    (set_local $2
-     (i32.load offset=8
-      (get_local $0)
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 52)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|6
+   (set_local $4
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<f32>#entries
+      (get_local $1)
      )
     )
-    (i32.store offset=16
-     (get_local $0)
-     (i32.add
-      (tee_local $3
-       (i32.load offset=16
-        (get_local $0)
-       )
-      )
-      (i32.const 1)
+   )
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<KeyValue<f32,f32>>#get:done|virtual
+      (get_local $4)
      )
     )
-    (i64.store
-     (tee_local $2
-      (i32.add
-       (i32.add
-        (get_local $2)
-        (i32.const 8)
-       )
-       (i32.shl
-        (get_local $3)
-        (i32.const 4)
+    (if
+     (f32.ne
+      (f32.load
+       (tee_local $3
+        (call $~lib/iterator/Iterator<KeyValue<f32,f32>>#next|virtual
+         (get_local $4)
+        )
        )
       )
+      (f32.load offset=4
+       (get_local $3)
+      )
      )
-     (get_local $1)
-    )
-    (i32.store offset=20
-     (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 54)
+       (i32.const 4)
       )
-      (i32.const 1)
+      (unreachable)
      )
-    )
-    (i32.store offset=8
-     (get_local $2)
-     (i32.load offset=8
-      (tee_local $3
+     (block
+      (i32.store offset=4
+       (get_local $2)
        (i32.add
-        (i32.load
-         (get_local $0)
-        )
-        (i32.shl
-         (i32.and
-          (get_local $4)
-          (i32.load offset=4
-           (get_local $0)
-          )
-         )
-         (i32.const 2)
+        (i32.load offset=4
+         (get_local $2)
         )
+        (i32.const 1)
        )
       )
+      (br $repeat|6)
      )
     )
-    (i32.store offset=8
-     (get_local $3)
-     (get_local $2)
-    )
    )
   )
- )
- (func $~lib/set/Set<i64>#delete (; 55 ;) (; has Stack IR ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
-  (local $2 i32)
-  (local $3 i32)
   (if
-   (i32.eqz
-    (tee_local $0
-     (call $~lib/set/Set<i64>#find
-      (tee_local $2
-       (get_local $0)
-      )
-      (get_local $1)
-      (tee_local $0
-       (call $~lib/internal/hash/hash64
-        (get_local $1)
-       )
-      )
-     )
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
     )
+    (i32.const 50)
    )
-   (return
-    (i32.const 0)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 57)
+     (i32.const 2)
+    )
+    (unreachable)
    )
   )
-  (i32.store offset=8
-   (get_local $0)
-   (i32.or
-    (i32.load offset=8
-     (get_local $0)
+  (block $break|7
+   (set_local $3
+    (call $~lib/set/Set<f32>#keys
+     (get_local $1)
     )
-    (i32.const 1)
    )
-  )
-  (i32.store offset=20
-   (get_local $2)
-   (i32.sub
-    (i32.load offset=20
+   (loop $repeat|7
+    (br_if $break|7
+     (call $~lib/iterator/Iterator<f32>#get:done|virtual
+      (get_local $3)
+     )
+    )
+    (i32.store
+     (tee_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
      (get_local $2)
     )
-    (i32.const 1)
-   )
-  )
-  (if
-   (tee_local $0
-    (i32.ge_u
-     (i32.add
-      (tee_local $3
-       (i32.shr_u
+    (f32.store offset=4
+     (get_local $4)
+     (f32.const 0)
+    )
+    (f32.store offset=4
+     (get_local $4)
+     (call $~lib/iterator/Iterator<f32>#next|virtual
+      (get_local $3)
+     )
+    )
+    (if
+     (call $~lib/set/Set<f32>#has
+      (get_local $1)
+      (f32.load offset=4
+       (get_local $4)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
         (i32.load offset=4
          (get_local $2)
         )
         (i32.const 1)
        )
       )
-      (i32.const 1)
+      (br $repeat|7)
      )
-     (select
-      (i32.const 4)
-      (tee_local $0
-       (i32.load offset=20
-        (get_local $2)
-       )
-      )
-      (i32.gt_u
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 59)
        (i32.const 4)
-       (get_local $0)
       )
+      (unreachable)
      )
     )
    )
-   (set_local $0
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $2)
-     )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $2)
-        )
-       )
-       (f64.const 0.75)
-      )
-     )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 62)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $3
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
     )
    )
+   (i32.const 8)
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (get_local $2)
+  )
+  (call $~lib/set/Set<f32>#forEach
+   (get_local $1)
+   (get_local $3)
   )
   (if
-   (get_local $0)
-   (call $~lib/set/Set<i64>#rehash
-    (get_local $2)
-    (get_local $3)
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 67)
+     (i32.const 2)
+    )
+    (unreachable)
    )
   )
-  (i32.const 1)
- )
- (func $std/set/test<i64> (; 56 ;) (; has Stack IR ;) (type $v)
-  (local $0 i64)
-  (local $1 i32)
-  (set_local $1
-   (call $~lib/set/Set<i64>#constructor)
+  (call $~lib/set/Set<i8>#clear
+   (get_local $1)
   )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i64.ge_s
-      (get_local $0)
-      (i64.const 100)
-     )
+  (if
+   (call $~lib/set/Set<i8>#get:size
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 71)
+     (i32.const 2)
     )
-    (if
-     (call $~lib/set/Set<i64>#has
-      (get_local $1)
+    (unreachable)
+   )
+  )
+ )
+ (func $~lib/internal/hash/hash<f64> (; 105 ;) (; has Stack IR ;) (type $Fi) (param $0 f64) (result i32)
+  (call $~lib/internal/hash/hash64
+   (i64.reinterpret/f64
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/Set<f64>#find (; 106 ;) (; has Stack IR ;) (type $iFii) (param $0 i32) (param $1 f64) (param $2 i32) (result i32)
+  (set_local $2
+   (i32.load offset=8
+    (i32.add
+     (i32.load
       (get_local $0)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 8)
-       (i32.const 4)
+     (i32.shl
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
+       )
       )
-      (unreachable)
+      (i32.const 2)
      )
     )
-    (call $~lib/set/Set<i64>#add
-     (get_local $1)
-     (get_local $0)
-    )
-    (if
-     (call $~lib/set/Set<i64>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
+   )
+  )
+  (loop $continue|0
+   (if
+    (get_local $2)
+    (block
+     (if
+      (tee_local $0
+       (i32.eqz
+        (i32.and
+         (i32.load offset=8
+          (get_local $2)
+         )
+         (i32.const 1)
+        )
+       )
+      )
       (set_local $0
-       (i64.add
-        (get_local $0)
-        (i64.const 1)
+       (f64.eq
+        (f64.load
+         (get_local $2)
+        )
+        (get_local $1)
        )
       )
-      (br $repeat|0)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 10)
-       (i32.const 4)
+     (if
+      (get_local $0)
+      (return
+       (get_local $2)
+      )
+     )
+     (set_local $2
+      (i32.and
+       (i32.load offset=8
+        (get_local $2)
+       )
+       (i32.const -2)
       )
-      (unreachable)
      )
+     (br $continue|0)
     )
    )
   )
-  (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
+  (i32.const 0)
+ )
+ (func $~lib/set/Set<f64>#has (; 107 ;) (; has Stack IR ;) (type $iFi) (param $0 i32) (param $1 f64) (result i32)
+  (i32.ne
+   (call $~lib/set/Set<f64>#find
+    (get_local $0)
+    (get_local $1)
+    (call $~lib/internal/hash/hash<f64>
      (get_local $1)
     )
-    (i32.const 100)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 12)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/set/Set<f64>#rehash (; 108 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $4
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.shl
+     (tee_local $2
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
      (i32.const 2)
     )
-    (unreachable)
+    (i32.const 0)
    )
   )
-  (block $break|1
-   (set_local $0
-    (i64.const 50)
-   )
-   (loop $repeat|1
-    (br_if $break|1
-     (i64.ge_s
-      (get_local $0)
-      (i64.const 100)
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.shl
+     (tee_local $7
+      (i32.trunc_s/f64
+       (f64.mul
+        (f64.convert_s/i32
+         (get_local $2)
+        )
+        (f64.const 2.6666666666666665)
+       )
+      )
      )
+     (i32.const 4)
     )
-    (if
-     (i32.eqz
-      (call $~lib/set/Set<i64>#has
-       (get_local $1)
+    (i32.const 1)
+   )
+  )
+  (set_local $8
+   (i32.add
+    (tee_local $2
+     (i32.add
+      (i32.load offset=8
        (get_local $0)
       )
+      (i32.const 8)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 16)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-    )
-    (call $~lib/set/Set<i64>#add
-     (get_local $1)
-     (get_local $0)
     )
-    (if
-     (call $~lib/set/Set<i64>#has
-      (get_local $1)
+    (i32.shl
+     (i32.load offset=16
       (get_local $0)
      )
-     (block
-      (set_local $0
-       (i64.add
-        (get_local $0)
-        (i64.const 1)
+     (i32.const 4)
+    )
+   )
+  )
+  (set_local $3
+   (i32.add
+    (get_local $5)
+    (i32.const 8)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.ne
+     (get_local $2)
+     (get_local $8)
+    )
+    (block
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=8
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (block
+       (f64.store
+        (get_local $3)
+        (f64.load
+         (get_local $2)
+        )
+       )
+       (i32.store offset=8
+        (get_local $3)
+        (i32.load offset=8
+         (tee_local $6
+          (i32.add
+           (get_local $4)
+           (i32.shl
+            (i32.and
+             (tee_local $6
+              (call $~lib/internal/hash/hash64
+               (i64.reinterpret/f64
+                (f64.load
+                 (get_local $2)
+                )
+               )
+              )
+             )
+             (get_local $1)
+            )
+            (i32.const 2)
+           )
+          )
+         )
+        )
+       )
+       (i32.store offset=8
+        (get_local $6)
+        (get_local $3)
+       )
+       (set_local $3
+        (i32.add
+         (get_local $3)
+         (i32.const 16)
+        )
        )
       )
-      (br $repeat|1)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 18)
-       (i32.const 4)
+     (set_local $2
+      (i32.add
+       (get_local $2)
+       (i32.const 16)
       )
-      (unreachable)
      )
+     (br $continue|0)
     )
    )
   )
+  (i32.store
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $7)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/Set<f64>#add (; 109 ;) (; has Stack IR ;) (type $iFv) (param $0 i32) (param $1 f64)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
   (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
+   (i32.eqz
+    (call $~lib/set/Set<f64>#find
+     (get_local $0)
      (get_local $1)
+     (tee_local $4
+      (call $~lib/internal/hash/hash<f64>
+       (get_local $1)
+      )
+     )
     )
-    (i32.const 100)
    )
    (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 20)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
-  )
-  (block $break|2
-   (set_local $0
-    (i64.const 0)
-   )
-   (loop $repeat|2
-    (br_if $break|2
-     (i64.ge_s
-      (get_local $0)
-      (i64.const 50)
-     )
-    )
     (if
-     (i32.eqz
-      (call $~lib/set/Set<i64>#has
-       (get_local $1)
+     (i32.eq
+      (i32.load offset=16
        (get_local $0)
       )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 24)
-       (i32.const 4)
+      (i32.load offset=12
+       (get_local $0)
       )
-      (unreachable)
      )
-    )
-    (drop
-     (call $~lib/set/Set<i64>#delete
-      (get_local $1)
+     (call $~lib/set/Set<f64>#rehash
       (get_local $0)
+      (tee_local $2
+       (if (result i32)
+        (i32.lt_s
+         (i32.load offset=20
+          (get_local $0)
+         )
+         (i32.trunc_s/f64
+          (f64.mul
+           (f64.convert_s/i32
+            (i32.load offset=12
+             (get_local $0)
+            )
+           )
+           (f64.const 0.75)
+          )
+         )
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+        (i32.or
+         (i32.shl
+          (i32.load offset=4
+           (get_local $0)
+          )
+          (i32.const 1)
+         )
+         (i32.const 1)
+        )
+       )
+      )
      )
     )
-    (if
-     (call $~lib/set/Set<i64>#has
-      (get_local $1)
+    (set_local $2
+     (i32.load offset=8
       (get_local $0)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 26)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-     (block
-      (set_local $0
-       (i64.add
+    )
+    (i32.store offset=16
+     (get_local $0)
+     (i32.add
+      (tee_local $3
+       (i32.load offset=16
         (get_local $0)
-        (i64.const 1)
        )
       )
-      (br $repeat|2)
-     )
-    )
-   )
-  )
-  (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
-    )
-    (i32.const 50)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 28)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
-  )
-  (block $break|3
-   (set_local $0
-    (i64.const 0)
-   )
-   (loop $repeat|3
-    (br_if $break|3
-     (i64.ge_s
-      (get_local $0)
-      (i64.const 50)
+      (i32.const 1)
      )
     )
-    (if
-     (call $~lib/set/Set<i64>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 32)
-       (i32.const 4)
+    (f64.store
+     (tee_local $2
+      (i32.add
+       (i32.add
+        (get_local $2)
+        (i32.const 8)
+       )
+       (i32.shl
+        (get_local $3)
+        (i32.const 4)
+       )
       )
-      (unreachable)
      )
-    )
-    (call $~lib/set/Set<i64>#add
      (get_local $1)
-     (get_local $0)
     )
-    (if
-     (i32.eqz
-      (call $~lib/set/Set<i64>#has
-       (get_local $1)
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
        (get_local $0)
       )
+      (i32.const 1)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 34)
-       (i32.const 4)
+    )
+    (i32.store offset=8
+     (get_local $2)
+     (i32.load offset=8
+      (tee_local $3
+       (i32.add
+        (i32.load
+         (get_local $0)
+        )
+        (i32.shl
+         (i32.and
+          (get_local $4)
+          (i32.load offset=4
+           (get_local $0)
+          )
+         )
+         (i32.const 2)
+        )
+       )
       )
-      (unreachable)
      )
     )
-    (drop
-     (call $~lib/set/Set<i64>#delete
-      (get_local $1)
-      (get_local $0)
-     )
+    (i32.store offset=8
+     (get_local $3)
+     (get_local $2)
     )
-    (if
-     (call $~lib/set/Set<i64>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 36)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-     (block
-      (set_local $0
-       (i64.add
-        (get_local $0)
-        (i64.const 1)
+   )
+  )
+ )
+ (func $~lib/set/Set<f64>#delete (; 110 ;) (; has Stack IR ;) (type $iFi) (param $0 i32) (param $1 f64) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eqz
+    (tee_local $0
+     (call $~lib/set/Set<f64>#find
+      (tee_local $2
+       (get_local $0)
+      )
+      (get_local $1)
+      (tee_local $0
+       (call $~lib/internal/hash/hash64
+        (i64.reinterpret/f64
+         (get_local $1)
+        )
        )
       )
-      (br $repeat|3)
      )
     )
    )
-  )
-  (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
-    )
-    (i32.const 50)
+   (return
+    (i32.const 0)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 38)
-     (i32.const 2)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (i32.or
+    (i32.load offset=8
+     (get_local $0)
     )
-    (unreachable)
+    (i32.const 1)
    )
   )
-  (call $~lib/set/Set<i64>#clear
-   (get_local $1)
-  )
-  (if
-   (call $~lib/set/Set<i8>#get:size
-    (get_local $1)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
+  (i32.store offset=20
+   (get_local $2)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $2)
     )
-    (unreachable)
+    (i32.const 1)
    )
   )
- )
- (func $std/set/test<u64> (; 57 ;) (; has Stack IR ;) (type $v)
-  (local $0 i64)
-  (local $1 i32)
-  (set_local $1
-   (call $~lib/set/Set<i64>#constructor)
-  )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i64.ge_u
-      (get_local $0)
-      (i64.const 100)
-     )
-    )
-    (if
-     (call $~lib/set/Set<i64>#has
-      (get_local $1)
-      (get_local $0)
+  (if
+   (tee_local $0
+    (i32.ge_u
+     (i32.add
+      (tee_local $3
+       (i32.shr_u
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 8)
+     (select
+      (i32.const 4)
+      (tee_local $0
+       (i32.load offset=20
+        (get_local $2)
+       )
+      )
+      (i32.gt_u
        (i32.const 4)
+       (get_local $0)
       )
-      (unreachable)
      )
     )
-    (call $~lib/set/Set<i64>#add
-     (get_local $1)
-     (get_local $0)
-    )
-    (if
-     (call $~lib/set/Set<i64>#has
-      (get_local $1)
-      (get_local $0)
+   )
+   (set_local $0
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $2)
      )
-     (block
-      (set_local $0
-       (i64.add
-        (get_local $0)
-        (i64.const 1)
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $2)
+        )
        )
+       (f64.const 0.75)
       )
-      (br $repeat|0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 10)
-       (i32.const 4)
-      )
-      (unreachable)
      )
     )
    )
   )
   (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
-    )
-    (i32.const 100)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 12)
-     (i32.const 2)
-    )
-    (unreachable)
+   (get_local $0)
+   (call $~lib/set/Set<f64>#rehash
+    (get_local $2)
+    (get_local $3)
    )
   )
-  (block $break|1
-   (set_local $0
-    (i64.const 50)
-   )
-   (loop $repeat|1
-    (br_if $break|1
-     (i64.ge_u
-      (get_local $0)
-      (i64.const 100)
-     )
-    )
-    (if
-     (i32.eqz
-      (call $~lib/set/Set<i64>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
+  (i32.const 1)
+ )
+ (func $~lib/set/Set<f64>#values (; 111 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
        (i32.const 16)
-       (i32.const 4)
       )
-      (unreachable)
+      (i32.const 8)
      )
     )
-    (call $~lib/set/Set<i64>#add
-     (get_local $1)
-     (get_local $0)
-    )
-    (if
-     (call $~lib/set/Set<i64>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (set_local $0
-       (i64.add
-        (get_local $0)
-        (i64.const 1)
-       )
-      )
-      (br $repeat|1)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 18)
-       (i32.const 4)
+    (i32.const 4)
+   )
+   (i32.const 108)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/set/Set<f64>#keys (; 112 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<f64>#values
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<f64>#entries (; 113 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
       )
-      (unreachable)
+      (i32.const 8)
      )
     )
+    (i32.const 4)
+   )
+   (i32.const 113)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $std/set/test<f64>~anonymous|9 (; 114 ;) (; has Stack IR ;) (type $FFiv) (param $0 f64) (param $1 f64) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
    )
   )
   (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
-    )
-    (i32.const 100)
+   (f64.ne
+    (get_local $0)
+    (get_local $1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 20)
-     (i32.const 2)
+     (i32.const 64)
+     (i32.const 4)
     )
     (unreachable)
    )
   )
-  (block $break|2
-   (set_local $0
-    (i64.const 0)
+  (i32.store offset=4
+   (get_local $3)
+   (i32.add
+    (i32.load offset=4
+     (get_local $3)
+    )
+    (i32.const 1)
    )
-   (loop $repeat|2
-    (br_if $break|2
-     (i64.ge_u
-      (get_local $0)
-      (i64.const 50)
+  )
+ )
+ (func $~lib/set/Set<f64>#forEach (; 115 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 f64)
+  (local $5 f64)
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (i32.load offset=16
+       (get_local $0)
+      )
      )
     )
     (if
      (i32.eqz
-      (call $~lib/set/Set<i64>#has
-       (get_local $1)
-       (get_local $0)
+      (i32.and
+       (i32.load offset=8
+        (tee_local $3
+         (i32.add
+          (i32.add
+           (i32.load offset=8
+            (get_local $0)
+           )
+           (i32.const 8)
+          )
+          (i32.shl
+           (get_local $2)
+           (i32.const 4)
+          )
+         )
+        )
+       )
+       (i32.const 1)
       )
      )
      (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 24)
-       (i32.const 4)
+      (set_global $~argc
+       (i32.const 3)
       )
-      (unreachable)
-     )
-    )
-    (drop
-     (call $~lib/set/Set<i64>#delete
-      (get_local $1)
-      (get_local $0)
-     )
-    )
-    (if
-     (call $~lib/set/Set<i64>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 26)
-       (i32.const 4)
+      (set_local $4
+       (f64.load
+        (get_local $3)
+       )
       )
-      (unreachable)
-     )
-     (block
-      (set_local $0
-       (i64.add
-        (get_local $0)
-        (i64.const 1)
+      (set_local $5
+       (f64.load
+        (get_local $3)
+       )
+      )
+      (set_global $~env
+       (get_local $1)
+      )
+      (call_indirect (type $FFiv)
+       (get_local $4)
+       (get_local $5)
+       (get_local $0)
+       (i32.load
+        (get_global $~env)
        )
       )
-      (br $repeat|2)
      )
     )
-   )
-  )
-  (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
     )
-    (i32.const 50)
+    (br $repeat|0)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 28)
-     (i32.const 2)
+  )
+ )
+ (func $std/set/test<f64> (; 116 ;) (; has Stack IR ;) (type $v)
+  (local $0 f64)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
     )
-    (unreachable)
    )
+   (i32.const 0)
   )
-  (block $break|3
-   (set_local $0
-    (i64.const 0)
-   )
-   (loop $repeat|3
-    (br_if $break|3
-     (i64.ge_u
-      (get_local $0)
-      (i64.const 50)
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (set_local $1
+   (call $~lib/set/Set<i64>#constructor)
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (f64.lt
+       (get_local $0)
+       (f64.const 100)
+      )
      )
     )
     (if
-     (call $~lib/set/Set<i64>#has
+     (call $~lib/set/Set<f64>#has
       (get_local $1)
       (get_local $0)
      )
@@ -6129,62 +12504,39 @@
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 32)
+       (i32.const 8)
        (i32.const 4)
       )
       (unreachable)
      )
     )
-    (call $~lib/set/Set<i64>#add
+    (call $~lib/set/Set<f64>#add
      (get_local $1)
      (get_local $0)
     )
     (if
-     (i32.eqz
-      (call $~lib/set/Set<i64>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 34)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-    )
-    (drop
-     (call $~lib/set/Set<i64>#delete
+     (call $~lib/set/Set<f64>#has
       (get_local $1)
       (get_local $0)
      )
-    )
-    (if
-     (call $~lib/set/Set<i64>#has
-      (get_local $1)
-      (get_local $0)
+     (block
+      (set_local $0
+       (f64.add
+        (get_local $0)
+        (f64.const 1)
+       )
+      )
+      (br $repeat|0)
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 36)
+       (i32.const 10)
        (i32.const 4)
       )
       (unreachable)
      )
-     (block
-      (set_local $0
-       (i64.add
-        (get_local $0)
-        (i64.const 1)
-       )
-      )
-      (br $repeat|3)
-     )
     )
    )
   )
@@ -6193,1671 +12545,2082 @@
     (call $~lib/set/Set<i8>#get:size
      (get_local $1)
     )
-    (i32.const 50)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 38)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
-  )
-  (call $~lib/set/Set<i64>#clear
-   (get_local $1)
-  )
-  (if
-   (call $~lib/set/Set<i8>#get:size
-    (get_local $1)
+    (i32.const 100)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 120)
-     (i32.const 42)
+     (i32.const 12)
      (i32.const 2)
     )
     (unreachable)
    )
   )
- )
- (func $~lib/internal/hash/hash<f32> (; 58 ;) (; has Stack IR ;) (type $fi) (param $0 f32) (result i32)
-  (call $~lib/internal/hash/hash32
-   (i32.reinterpret/f32
-    (get_local $0)
+  (block $break|1
+   (set_local $0
+    (f64.const 50)
    )
-  )
- )
- (func $~lib/set/Set<f32>#find (; 59 ;) (; has Stack IR ;) (type $ifii) (param $0 i32) (param $1 f32) (param $2 i32) (result i32)
-  (set_local $2
-   (i32.load offset=8
-    (i32.add
-     (i32.load
-      (get_local $0)
-     )
-     (i32.shl
-      (i32.and
-       (get_local $2)
-       (i32.load offset=4
-        (get_local $0)
-       )
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.eqz
+      (f64.lt
+       (get_local $0)
+       (f64.const 100)
       )
-      (i32.const 2)
-     )
-    )
-   )
-  )
-  (loop $continue|0
-   (if
-    (get_local $2)
-    (block
-     (if
-      (tee_local $0
-       (i32.eqz
-        (i32.and
-         (i32.load offset=4
-          (get_local $2)
-         )
-         (i32.const 1)
-        )
-       )
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<f64>#has
+       (get_local $1)
+       (get_local $0)
       )
-      (set_local $0
-       (f32.eq
-        (f32.load
-         (get_local $2)
-        )
-        (get_local $1)
-       )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 16)
+       (i32.const 4)
       )
+      (unreachable)
      )
-     (if
+    )
+    (call $~lib/set/Set<f64>#add
+     (get_local $1)
+     (get_local $0)
+    )
+    (if
+     (call $~lib/set/Set<f64>#has
+      (get_local $1)
       (get_local $0)
-      (return
-       (get_local $2)
-      )
      )
-     (set_local $2
-      (i32.and
-       (i32.load offset=4
-        (get_local $2)
+     (block
+      (set_local $0
+       (f64.add
+        (get_local $0)
+        (f64.const 1)
        )
-       (i32.const -2)
       )
+      (br $repeat|1)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 18)
+       (i32.const 4)
+      )
+      (unreachable)
      )
-     (br $continue|0)
     )
    )
   )
-  (i32.const 0)
- )
- (func $~lib/set/Set<f32>#has (; 60 ;) (; has Stack IR ;) (type $ifi) (param $0 i32) (param $1 f32) (result i32)
-  (i32.ne
-   (call $~lib/set/Set<f32>#find
-    (get_local $0)
-    (get_local $1)
-    (call $~lib/internal/hash/hash<f32>
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
      (get_local $1)
     )
+    (i32.const 100)
    )
-   (i32.const 0)
-  )
- )
- (func $~lib/set/Set<f32>#rehash (; 61 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (set_local $4
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $2
-      (i32.add
-       (get_local $1)
-       (i32.const 1)
-      )
-     )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 20)
      (i32.const 2)
     )
-    (i32.const 0)
+    (unreachable)
    )
   )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $7
-      (i32.trunc_s/f64
-       (f64.mul
-        (f64.convert_s/i32
-         (get_local $2)
-        )
-        (f64.const 2.6666666666666665)
-       )
+  (block $break|2
+   (set_local $0
+    (f64.const 0)
+   )
+   (loop $repeat|2
+    (br_if $break|2
+     (i32.eqz
+      (f64.lt
+       (get_local $0)
+       (f64.const 50)
       )
      )
-     (i32.const 3)
     )
-    (i32.const 1)
-   )
-  )
-  (set_local $8
-   (i32.add
-    (tee_local $2
-     (i32.add
-      (i32.load offset=8
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<f64>#has
+       (get_local $1)
        (get_local $0)
       )
-      (i32.const 8)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 24)
+       (i32.const 4)
+      )
+      (unreachable)
      )
     )
-    (i32.shl
-     (i32.load offset=16
+    (drop
+     (call $~lib/set/Set<f64>#delete
+      (get_local $1)
       (get_local $0)
      )
-     (i32.const 3)
-    )
-   )
-  )
-  (set_local $3
-   (i32.add
-    (get_local $5)
-    (i32.const 8)
-   )
-  )
-  (loop $continue|0
-   (if
-    (i32.ne
-     (get_local $2)
-     (get_local $8)
     )
-    (block
-     (if
-      (i32.eqz
-       (i32.and
-        (i32.load offset=4
-         (get_local $2)
-        )
-        (i32.const 1)
-       )
-      )
-      (block
-       (f32.store
-        (get_local $3)
-        (f32.load
-         (get_local $2)
-        )
-       )
-       (i32.store offset=4
-        (get_local $3)
-        (i32.load offset=8
-         (tee_local $6
-          (i32.add
-           (get_local $4)
-           (i32.shl
-            (i32.and
-             (tee_local $6
-              (call $~lib/internal/hash/hash32
-               (i32.reinterpret/f32
-                (f32.load
-                 (get_local $2)
-                )
-               )
-              )
-             )
-             (get_local $1)
-            )
-            (i32.const 2)
-           )
-          )
-         )
-        )
-       )
-       (i32.store offset=8
-        (get_local $6)
-        (get_local $3)
-       )
-       (set_local $3
-        (i32.add
-         (get_local $3)
-         (i32.const 8)
-        )
-       )
-      )
+    (if
+     (call $~lib/set/Set<f64>#has
+      (get_local $1)
+      (get_local $0)
      )
-     (set_local $2
-      (i32.add
-       (get_local $2)
-       (i32.const 8)
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 26)
+       (i32.const 4)
       )
+      (unreachable)
      )
-     (br $continue|0)
-    )
-   )
-  )
-  (i32.store
-   (get_local $0)
-   (get_local $4)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $7)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
+     (block
+      (set_local $0
+       (f64.add
+        (get_local $0)
+        (f64.const 1)
+       )
+      )
+      (br $repeat|2)
+     )
+    )
    )
   )
- )
- (func $~lib/set/Set<f32>#add (; 62 ;) (; has Stack IR ;) (type $ifv) (param $0 i32) (param $1 f32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
   (if
-   (i32.eqz
-    (call $~lib/set/Set<f32>#find
-     (get_local $0)
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
      (get_local $1)
-     (tee_local $4
-      (call $~lib/internal/hash/hash<f32>
-       (get_local $1)
-      )
-     )
     )
+    (i32.const 50)
    )
    (block
-    (if
-     (i32.eq
-      (i32.load offset=16
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 28)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|3
+   (set_local $0
+    (f64.const 0)
+   )
+   (loop $repeat|3
+    (br_if $break|3
+     (i32.eqz
+      (f64.lt
        (get_local $0)
+       (f64.const 50)
       )
-      (i32.load offset=12
+     )
+    )
+    (if
+     (call $~lib/set/Set<f64>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 32)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/set/Set<f64>#add
+     (get_local $1)
+     (get_local $0)
+    )
+    (if
+     (i32.eqz
+      (call $~lib/set/Set<f64>#has
+       (get_local $1)
        (get_local $0)
       )
      )
-     (call $~lib/set/Set<f32>#rehash
-      (get_local $0)
-      (tee_local $2
-       (if (result i32)
-        (i32.lt_s
-         (i32.load offset=20
-          (get_local $0)
-         )
-         (i32.trunc_s/f64
-          (f64.mul
-           (f64.convert_s/i32
-            (i32.load offset=12
-             (get_local $0)
-            )
-           )
-           (f64.const 0.75)
-          )
-         )
-        )
-        (i32.load offset=4
-         (get_local $0)
-        )
-        (i32.or
-         (i32.shl
-          (i32.load offset=4
-           (get_local $0)
-          )
-          (i32.const 1)
-         )
-         (i32.const 1)
-        )
-       )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 34)
+       (i32.const 4)
       )
+      (unreachable)
      )
     )
-    (set_local $2
-     (i32.load offset=8
+    (drop
+     (call $~lib/set/Set<f64>#delete
+      (get_local $1)
       (get_local $0)
      )
     )
-    (i32.store offset=16
-     (get_local $0)
-     (i32.add
-      (tee_local $3
-       (i32.load offset=16
+    (if
+     (call $~lib/set/Set<f64>#has
+      (get_local $1)
+      (get_local $0)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 36)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+     (block
+      (set_local $0
+       (f64.add
         (get_local $0)
+        (f64.const 1)
        )
       )
-      (i32.const 1)
+      (br $repeat|3)
      )
     )
-    (f32.store
-     (tee_local $2
-      (i32.add
-       (i32.add
-        (get_local $2)
-        (i32.const 8)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/set/Set<i8>#get:size
+     (get_local $1)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 38)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block $break|4
+   (set_local $4
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<f64>#values
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|4
+    (br_if $break|4
+     (call $~lib/iterator/Iterator<f64>#get:done|virtual
+      (get_local $4)
+     )
+    )
+    (i32.store
+     (tee_local $5
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+     )
+     (get_local $2)
+    )
+    (f64.store offset=8
+     (get_local $5)
+     (f64.const 0)
+    )
+    (f64.store offset=8
+     (get_local $5)
+     (call $~lib/iterator/Iterator<f64>#next|virtual
+      (get_local $4)
+     )
+    )
+    (if
+     (tee_local $3
+      (f64.ge
+       (f64.load offset=8
+        (get_local $5)
        )
-       (i32.shl
-        (get_local $3)
-        (i32.const 3)
+       (f64.const 50)
+      )
+     )
+     (set_local $3
+      (f64.lt
+       (f64.load offset=8
+        (get_local $5)
        )
+       (f64.const 100)
       )
      )
-     (get_local $1)
     )
-    (i32.store offset=20
-     (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
+    (if
+     (i32.eqz
+      (get_local $3)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 43)
+       (i32.const 4)
       )
-      (i32.const 1)
+      (unreachable)
      )
     )
-    (i32.store offset=4
-     (get_local $2)
-     (i32.load offset=8
-      (tee_local $3
+    (if
+     (call $~lib/set/Set<f64>#has
+      (get_local $1)
+      (f64.load offset=8
+       (get_local $5)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
        (i32.add
-        (i32.load
-         (get_local $0)
-        )
-        (i32.shl
-         (i32.and
-          (get_local $4)
-          (i32.load offset=4
-           (get_local $0)
-          )
-         )
-         (i32.const 2)
+        (i32.load offset=4
+         (get_local $2)
         )
+        (i32.const 1)
        )
       )
+      (br $repeat|4)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 44)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 47)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|5
+   (set_local $4
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<f64>#keys
+      (get_local $1)
+     )
+    )
+   )
+   (loop $repeat|5
+    (br_if $break|5
+     (call $~lib/iterator/Iterator<f64>#get:done|virtual
+      (get_local $4)
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
      )
+     (get_local $2)
     )
-    (i32.store offset=8
+    (f64.store offset=8
      (get_local $3)
-     (get_local $2)
+     (f64.const 0)
     )
-   )
-  )
- )
- (func $~lib/set/Set<f32>#delete (; 63 ;) (; has Stack IR ;) (type $ifi) (param $0 i32) (param $1 f32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (if
-   (i32.eqz
-    (tee_local $0
-     (call $~lib/set/Set<f32>#find
-      (tee_local $2
-       (get_local $0)
-      )
+    (f64.store offset=8
+     (get_local $3)
+     (call $~lib/iterator/Iterator<f64>#next|virtual
+      (get_local $4)
+     )
+    )
+    (if
+     (call $~lib/set/Set<f64>#has
       (get_local $1)
-      (tee_local $0
-       (call $~lib/internal/hash/hash32
-        (i32.reinterpret/f32
-         (get_local $1)
+      (f64.load offset=8
+       (get_local $3)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
         )
+        (i32.const 1)
        )
       )
+      (br $repeat|5)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 49)
+       (i32.const 4)
+      )
+      (unreachable)
      )
     )
    )
-   (return
-    (i32.const 0)
-   )
   )
-  (i32.store offset=4
-   (get_local $0)
-   (i32.or
-    (i32.load offset=4
-     (get_local $0)
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 52)
+     (i32.const 2)
     )
-    (i32.const 1)
+    (unreachable)
    )
   )
-  (i32.store offset=20
-   (get_local $2)
-   (i32.sub
-    (i32.load offset=20
-     (get_local $2)
+  (block $break|6
+   (set_local $4
+    (call $~lib/iterator/IterableIterator<i8>#__iterator
+     (call $~lib/set/Set<f64>#entries
+      (get_local $1)
+     )
     )
-    (i32.const 1)
    )
-  )
-  (if
-   (tee_local $0
-    (i32.ge_u
-     (i32.add
-      (tee_local $3
-       (i32.shr_u
-        (i32.load offset=4
-         (get_local $2)
+   (loop $repeat|6
+    (br_if $break|6
+     (call $~lib/iterator/Iterator<KeyValue<f64,f64>>#get:done|virtual
+      (get_local $4)
+     )
+    )
+    (if
+     (f64.ne
+      (f64.load
+       (tee_local $3
+        (call $~lib/iterator/Iterator<KeyValue<f64,f64>>#next|virtual
+         (get_local $4)
         )
-        (i32.const 1)
        )
       )
-      (i32.const 1)
-     )
-     (select
-      (i32.const 4)
-      (tee_local $0
-       (i32.load offset=20
-        (get_local $2)
-       )
+      (f64.load offset=8
+       (get_local $3)
       )
-      (i32.gt_u
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 120)
+       (i32.const 54)
        (i32.const 4)
-       (get_local $0)
       )
+      (unreachable)
      )
-    )
-   )
-   (set_local $0
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $2)
-     )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
          (get_local $2)
         )
+        (i32.const 1)
        )
-       (f64.const 0.75)
       )
+      (br $repeat|6)
      )
     )
    )
   )
   (if
-   (get_local $0)
-   (call $~lib/set/Set<f32>#rehash
-    (get_local $2)
-    (get_local $3)
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 57)
+     (i32.const 2)
+    )
+    (unreachable)
    )
   )
-  (i32.const 1)
- )
- (func $std/set/test<f32> (; 64 ;) (; has Stack IR ;) (type $v)
-  (local $0 f32)
-  (local $1 i32)
-  (set_local $1
-   (call $~lib/set/Set<i8>#constructor)
-  )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (f32.lt
-       (get_local $0)
-       (f32.const 100)
+  (block $break|7
+   (set_local $3
+    (call $~lib/set/Set<f64>#keys
+     (get_local $1)
+    )
+   )
+   (loop $repeat|7
+    (br_if $break|7
+     (call $~lib/iterator/Iterator<f64>#get:done|virtual
+      (get_local $3)
+     )
+    )
+    (i32.store
+     (tee_local $4
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
       )
      )
+     (get_local $2)
+    )
+    (f64.store offset=8
+     (get_local $4)
+     (f64.const 0)
+    )
+    (f64.store offset=8
+     (get_local $4)
+     (call $~lib/iterator/Iterator<f64>#next|virtual
+      (get_local $3)
+     )
     )
     (if
-     (call $~lib/set/Set<f32>#has
+     (call $~lib/set/Set<f64>#has
       (get_local $1)
-      (get_local $0)
+      (f64.load offset=8
+       (get_local $4)
+      )
+     )
+     (block
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (br $repeat|7)
      )
      (block
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 120)
-       (i32.const 8)
+       (i32.const 59)
        (i32.const 4)
       )
       (unreachable)
      )
     )
-    (call $~lib/set/Set<f32>#add
-     (get_local $1)
-     (get_local $0)
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 62)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $3
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 9)
+  )
+  (i32.store offset=4
+   (get_local $3)
+   (get_local $2)
+  )
+  (call $~lib/set/Set<f64>#forEach
+   (get_local $1)
+   (get_local $3)
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (i32.const 50)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 67)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/set/Set<i64>#clear
+   (get_local $1)
+  )
+  (if
+   (call $~lib/set/Set<i8>#get:size
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 120)
+     (i32.const 71)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+ )
+ (func $~lib/set/SetIterator<i8,i8>#get:done (; 117 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $1
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=16
+    (tee_local $3
+     (i32.load
+      (get_local $0)
+     )
     )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
     (if
-     (call $~lib/set/Set<f32>#has
+     (i32.lt_s
       (get_local $1)
-      (get_local $0)
+      (get_local $2)
      )
      (block
-      (set_local $0
-       (f32.add
-        (get_local $0)
-        (f32.const 1)
+      (br_if $break|0
+       (i32.eqz
+        (i32.and
+         (i32.load offset=4
+          (i32.add
+           (i32.add
+            (i32.load offset=8
+             (get_local $3)
+            )
+            (i32.const 8)
+           )
+           (i32.shl
+            (get_local $1)
+            (i32.const 3)
+           )
+          )
+         )
+         (i32.const 1)
+        )
        )
       )
-      (br $repeat|0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 10)
-       (i32.const 4)
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
       )
-      (unreachable)
+      (br $continue|0)
      )
     )
    )
   )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.ge_s
+   (get_local $1)
+   (get_local $2)
+  )
+ )
+ (func $~lib/set/SetIterator<i8,i8>#nextEntry (; 118 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
   (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
-    )
-    (i32.const 100)
+   (call $~lib/set/SetIterator<i8,i8>#get:done
+    (get_local $0)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 12)
-     (i32.const 2)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
     )
     (unreachable)
    )
   )
-  (block $break|1
-   (set_local $0
-    (f32.const 50)
-   )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.eqz
-      (f32.lt
-       (get_local $0)
-       (f32.const 100)
-      )
+  (set_local $1
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
      )
     )
-    (if
-     (i32.eqz
-      (call $~lib/set/Set<f32>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 16)
-       (i32.const 4)
-      )
-      (unreachable)
+    (i32.const 8)
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.add
+    (tee_local $0
+     (i32.load offset=4
+      (get_local $0)
      )
     )
-    (call $~lib/set/Set<f32>#add
-     (get_local $1)
-     (get_local $0)
+    (i32.const 1)
+   )
+  )
+  (i32.add
+   (get_local $1)
+   (i32.shl
+    (get_local $0)
+    (i32.const 3)
+   )
+  )
+ )
+ (func $~lib/set/SetValueIterator<i8>#next (; 119 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load8_s
+   (call $~lib/set/SetIterator<i8,i8>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<i8,i8>#constructor (; 120 ;) (; has Stack IR ;) (type $FUNCSIG$iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (i32.store8
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 2)
     )
-    (if
-     (call $~lib/set/Set<f32>#has
-      (get_local $1)
+   )
+   (get_local $0)
+  )
+  (i32.store8 offset=1
+   (get_local $2)
+   (get_local $1)
+  )
+  (get_local $2)
+ )
+ (func $~lib/set/SetEntryIterator<i8>#next (; 121 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/map/KeyValue<i8,i8>#constructor
+   (tee_local $1
+    (i32.load8_s
+     (call $~lib/set/SetIterator<i8,i8>#nextEntry
       (get_local $0)
      )
-     (block
-      (set_local $0
-       (f32.add
-        (get_local $0)
-        (f32.const 1)
-       )
-      )
-      (br $repeat|1)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 18)
-       (i32.const 4)
-      )
-      (unreachable)
+    )
+   )
+   (get_local $1)
+  )
+ )
+ (func $~lib/set/SetValueIterator<u8>#next (; 122 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load8_u
+   (call $~lib/set/SetIterator<i8,i8>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/SetEntryIterator<u8>#next (; 123 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/map/KeyValue<i8,i8>#constructor
+   (tee_local $1
+    (i32.load8_u
+     (call $~lib/set/SetIterator<i8,i8>#nextEntry
+      (get_local $0)
      )
     )
    )
+   (get_local $1)
   )
-  (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
+ )
+ (func $~lib/set/SetValueIterator<i16>#next (; 124 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load16_s
+   (call $~lib/set/SetIterator<i8,i8>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<i16,i16>#constructor (; 125 ;) (; has Stack IR ;) (type $FUNCSIG$iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (i32.store16
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 4)
     )
-    (i32.const 100)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 20)
-     (i32.const 2)
+   (get_local $0)
+  )
+  (i32.store16 offset=2
+   (get_local $2)
+   (get_local $1)
+  )
+  (get_local $2)
+ )
+ (func $~lib/set/SetEntryIterator<i16>#next (; 126 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/map/KeyValue<i16,i16>#constructor
+   (tee_local $1
+    (i32.load16_s
+     (call $~lib/set/SetIterator<i8,i8>#nextEntry
+      (get_local $0)
+     )
     )
-    (unreachable)
    )
+   (get_local $1)
   )
-  (block $break|2
-   (set_local $0
-    (f32.const 0)
+ )
+ (func $~lib/set/SetValueIterator<u16>#next (; 127 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load16_u
+   (call $~lib/set/SetIterator<i8,i8>#nextEntry
+    (get_local $0)
    )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (f32.lt
-       (get_local $0)
-       (f32.const 50)
-      )
+  )
+ )
+ (func $~lib/set/SetEntryIterator<u16>#next (; 128 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/map/KeyValue<i16,i16>#constructor
+   (tee_local $1
+    (i32.load16_u
+     (call $~lib/set/SetIterator<i8,i8>#nextEntry
+      (get_local $0)
      )
     )
-    (if
-     (i32.eqz
-      (call $~lib/set/Set<f32>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 24)
-       (i32.const 4)
-      )
-      (unreachable)
+   )
+   (get_local $1)
+  )
+ )
+ (func $~lib/set/SetValueIterator<i32>#next (; 129 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load
+   (call $~lib/set/SetIterator<i8,i8>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<i32,i32>#constructor (; 130 ;) (; has Stack IR ;) (type $FUNCSIG$iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (i32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (get_local $0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (get_local $1)
+  )
+  (get_local $2)
+ )
+ (func $~lib/set/SetEntryIterator<i32>#next (; 131 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/map/KeyValue<i32,i32>#constructor
+   (tee_local $1
+    (i32.load
+     (call $~lib/set/SetIterator<i8,i8>#nextEntry
+      (get_local $0)
      )
     )
-    (drop
-     (call $~lib/set/Set<f32>#delete
-      (get_local $1)
+   )
+   (get_local $1)
+  )
+ )
+ (func $~lib/set/SetIterator<i64,i64>#get:done (; 132 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $1
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=16
+    (tee_local $3
+     (i32.load
       (get_local $0)
      )
     )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
     (if
-     (call $~lib/set/Set<f32>#has
+     (i32.lt_s
       (get_local $1)
-      (get_local $0)
+      (get_local $2)
      )
      (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 26)
-       (i32.const 4)
+      (br_if $break|0
+       (i32.eqz
+        (i32.and
+         (i32.load offset=8
+          (i32.add
+           (i32.add
+            (i32.load offset=8
+             (get_local $3)
+            )
+            (i32.const 8)
+           )
+           (i32.shl
+            (get_local $1)
+            (i32.const 4)
+           )
+          )
+         )
+         (i32.const 1)
+        )
+       )
       )
-      (unreachable)
-     )
-     (block
-      (set_local $0
-       (f32.add
-        (get_local $0)
-        (f32.const 1)
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
        )
       )
-      (br $repeat|2)
+      (br $continue|0)
      )
     )
    )
   )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.ge_s
+   (get_local $1)
+   (get_local $2)
+  )
+ )
+ (func $~lib/set/SetIterator<i64,i64>#nextEntry (; 133 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
   (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
-    )
-    (i32.const 50)
+   (call $~lib/set/SetIterator<i64,i64>#get:done
+    (get_local $0)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 28)
-     (i32.const 2)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
     )
     (unreachable)
    )
   )
-  (block $break|3
-   (set_local $0
-    (f32.const 0)
-   )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (f32.lt
-       (get_local $0)
-       (f32.const 50)
-      )
+  (set_local $1
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
      )
     )
-    (if
-     (call $~lib/set/Set<f32>#has
-      (get_local $1)
+    (i32.const 8)
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.add
+    (tee_local $0
+     (i32.load offset=4
       (get_local $0)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 32)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
     )
-    (call $~lib/set/Set<f32>#add
-     (get_local $1)
-     (get_local $0)
+    (i32.const 1)
+   )
+  )
+  (i32.add
+   (get_local $1)
+   (i32.shl
+    (get_local $0)
+    (i32.const 4)
+   )
+  )
+ )
+ (func $~lib/set/SetValueIterator<i64>#next (; 134 ;) (; has Stack IR ;) (type $iI) (param $0 i32) (result i64)
+  (i64.load
+   (call $~lib/set/SetIterator<i64,i64>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<i64,i64>#constructor (; 135 ;) (; has Stack IR ;) (type $FUNCSIG$ijj) (param $0 i64) (param $1 i64) (result i32)
+  (local $2 i32)
+  (i64.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 16)
     )
-    (if
-     (i32.eqz
-      (call $~lib/set/Set<f32>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 34)
-       (i32.const 4)
-      )
-      (unreachable)
+   )
+   (get_local $0)
+  )
+  (i64.store offset=8
+   (get_local $2)
+   (get_local $1)
+  )
+  (get_local $2)
+ )
+ (func $~lib/set/SetEntryIterator<i64>#next (; 136 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i64)
+  (call $~lib/map/KeyValue<i64,i64>#constructor
+   (tee_local $1
+    (i64.load
+     (call $~lib/set/SetIterator<i64,i64>#nextEntry
+      (get_local $0)
      )
     )
-    (drop
-     (call $~lib/set/Set<f32>#delete
-      (get_local $1)
+   )
+   (get_local $1)
+  )
+ )
+ (func $~lib/set/SetValueIterator<f32>#next (; 137 ;) (; has Stack IR ;) (type $if) (param $0 i32) (result f32)
+  (f32.load
+   (call $~lib/set/SetIterator<i8,i8>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<f32,f32>#constructor (; 138 ;) (; has Stack IR ;) (type $FUNCSIG$iff) (param $0 f32) (param $1 f32) (result i32)
+  (local $2 i32)
+  (f32.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (get_local $0)
+  )
+  (f32.store offset=4
+   (get_local $2)
+   (get_local $1)
+  )
+  (get_local $2)
+ )
+ (func $~lib/set/SetEntryIterator<f32>#next (; 139 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 f32)
+  (call $~lib/map/KeyValue<f32,f32>#constructor
+   (tee_local $1
+    (f32.load
+     (call $~lib/set/SetIterator<i8,i8>#nextEntry
       (get_local $0)
      )
     )
-    (if
-     (call $~lib/set/Set<f32>#has
-      (get_local $1)
+   )
+   (get_local $1)
+  )
+ )
+ (func $~lib/set/SetValueIterator<f64>#next (; 140 ;) (; has Stack IR ;) (type $iF) (param $0 i32) (result f64)
+  (f64.load
+   (call $~lib/set/SetIterator<i64,i64>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<f64,f64>#constructor (; 141 ;) (; has Stack IR ;) (type $FUNCSIG$idd) (param $0 f64) (param $1 f64) (result i32)
+  (local $2 i32)
+  (f64.store
+   (tee_local $2
+    (call $~lib/memory/memory.allocate
+     (i32.const 16)
+    )
+   )
+   (get_local $0)
+  )
+  (f64.store offset=8
+   (get_local $2)
+   (get_local $1)
+  )
+  (get_local $2)
+ )
+ (func $~lib/set/SetEntryIterator<f64>#next (; 142 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 f64)
+  (call $~lib/map/KeyValue<f64,f64>#constructor
+   (tee_local $1
+    (f64.load
+     (call $~lib/set/SetIterator<i64,i64>#nextEntry
       (get_local $0)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 36)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-     (block
-      (set_local $0
-       (f32.add
+    )
+   )
+   (get_local $1)
+  )
+ )
+ (func $~lib/iterator/Iterator<i8>#get:done|virtual (; 143 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
         (get_local $0)
-        (f32.const 1)
+        (i32.const 4)
        )
       )
-      (br $repeat|3)
      )
+     (i32.const 8)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 9)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<i8,i8>#get:done
+     (get_local $0)
     )
    )
   )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i8>#next|virtual (; 144 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
+     )
     )
-    (i32.const 50)
+    (i32.const 9)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 38)
-     (i32.const 2)
+   (return
+    (call $~lib/set/SetValueIterator<i8>#next
+     (get_local $0)
     )
-    (unreachable)
    )
   )
-  (call $~lib/set/Set<i8>#clear
-   (get_local $1)
-  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i8,i8>>#get:done|virtual (; 145 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
   (if
-   (call $~lib/set/Set<i8>#get:size
-    (get_local $1)
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
+       )
+      )
+     )
+     (i32.const 13)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 14)
+    )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
+   (return
+    (call $~lib/set/SetIterator<i8,i8>#get:done
+     (get_local $0)
     )
-    (unreachable)
    )
   )
+  (unreachable)
  )
- (func $~lib/internal/hash/hash<f64> (; 65 ;) (; has Stack IR ;) (type $Fi) (param $0 f64) (result i32)
-  (call $~lib/internal/hash/hash64
-   (i64.reinterpret/f64
-    (get_local $0)
+ (func $~lib/iterator/Iterator<KeyValue<i8,i8>>#next|virtual (; 146 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
+     )
+    )
+    (i32.const 14)
+   )
+   (return
+    (call $~lib/set/SetEntryIterator<i8>#next
+     (get_local $0)
+    )
    )
   )
+  (unreachable)
  )
- (func $~lib/set/Set<f64>#find (; 66 ;) (; has Stack IR ;) (type $iFii) (param $0 i32) (param $1 f64) (param $2 i32) (result i32)
-  (set_local $2
-   (i32.load offset=8
-    (i32.add
-     (i32.load
-      (get_local $0)
-     )
-     (i32.shl
-      (i32.and
-       (get_local $2)
-       (i32.load offset=4
+ (func $~lib/iterator/Iterator<u8>#get:done|virtual (; 147 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
         (get_local $0)
+        (i32.const 4)
        )
       )
-      (i32.const 2)
      )
+     (i32.const 19)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 20)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<i8,i8>#get:done
+     (get_local $0)
     )
    )
   )
-  (loop $continue|0
-   (if
-    (get_local $2)
-    (block
-     (if
-      (tee_local $0
-       (i32.eqz
-        (i32.and
-         (i32.load offset=8
-          (get_local $2)
-         )
-         (i32.const 1)
-        )
-       )
-      )
-      (set_local $0
-       (f64.eq
-        (f64.load
-         (get_local $2)
-        )
-        (get_local $1)
-       )
-      )
-     )
-     (if
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u8>#next|virtual (; 148 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
       (get_local $0)
-      (return
-       (get_local $2)
-      )
-     )
-     (set_local $2
-      (i32.and
-       (i32.load offset=8
-        (get_local $2)
-       )
-       (i32.const -2)
-      )
+      (i32.const 4)
      )
-     (br $continue|0)
+    )
+    (i32.const 20)
+   )
+   (return
+    (call $~lib/set/SetValueIterator<u8>#next
+     (get_local $0)
     )
    )
   )
-  (i32.const 0)
+  (unreachable)
  )
- (func $~lib/set/Set<f64>#has (; 67 ;) (; has Stack IR ;) (type $iFi) (param $0 i32) (param $1 f64) (result i32)
-  (i32.ne
-   (call $~lib/set/Set<f64>#find
-    (get_local $0)
-    (get_local $1)
-    (call $~lib/internal/hash/hash<f64>
+ (func $~lib/iterator/Iterator<KeyValue<u8,u8>>#get:done|virtual (; 149 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
+       )
+      )
+     )
+     (i32.const 24)
+    )
+    (i32.eq
      (get_local $1)
+     (i32.const 25)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<i8,i8>#get:done
+     (get_local $0)
     )
    )
-   (i32.const 0)
   )
+  (unreachable)
  )
- (func $~lib/set/Set<f64>#rehash (; 68 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (set_local $4
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $2
-      (i32.add
-       (get_local $1)
-       (i32.const 1)
-      )
+ (func $~lib/iterator/Iterator<KeyValue<u8,u8>>#next|virtual (; 150 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
      )
-     (i32.const 2)
     )
-    (i32.const 0)
+    (i32.const 25)
+   )
+   (return
+    (call $~lib/set/SetEntryIterator<u8>#next
+     (get_local $0)
+    )
    )
   )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.shl
-     (tee_local $7
-      (i32.trunc_s/f64
-       (f64.mul
-        (f64.convert_s/i32
-         (get_local $2)
-        )
-        (f64.const 2.6666666666666665)
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i16>#get:done|virtual (; 151 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
        )
       )
      )
-     (i32.const 4)
+     (i32.const 30)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 31)
     )
-    (i32.const 1)
    )
-  )
-  (set_local $8
-   (i32.add
-    (tee_local $2
-     (i32.add
-      (i32.load offset=8
-       (get_local $0)
-      )
-      (i32.const 8)
-     )
+   (return
+    (call $~lib/set/SetIterator<i8,i8>#get:done
+     (get_local $0)
     )
-    (i32.shl
-     (i32.load offset=16
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i16>#next|virtual (; 152 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
       (get_local $0)
+      (i32.const 4)
      )
-     (i32.const 4)
     )
+    (i32.const 31)
    )
-  )
-  (set_local $3
-   (i32.add
-    (get_local $5)
-    (i32.const 8)
+   (return
+    (call $~lib/set/SetValueIterator<i16>#next
+     (get_local $0)
+    )
    )
   )
-  (loop $continue|0
-   (if
-    (i32.ne
-     (get_local $2)
-     (get_local $8)
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.and
-        (i32.load offset=8
-         (get_local $2)
-        )
-        (i32.const 1)
-       )
-      )
-      (block
-       (f64.store
-        (get_local $3)
-        (f64.load
-         (get_local $2)
-        )
-       )
-       (i32.store offset=8
-        (get_local $3)
-        (i32.load offset=8
-         (tee_local $6
-          (i32.add
-           (get_local $4)
-           (i32.shl
-            (i32.and
-             (tee_local $6
-              (call $~lib/internal/hash/hash64
-               (i64.reinterpret/f64
-                (f64.load
-                 (get_local $2)
-                )
-               )
-              )
-             )
-             (get_local $1)
-            )
-            (i32.const 2)
-           )
-          )
-         )
-        )
-       )
-       (i32.store offset=8
-        (get_local $6)
-        (get_local $3)
-       )
-       (set_local $3
-        (i32.add
-         (get_local $3)
-         (i32.const 16)
-        )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i16,i16>>#get:done|virtual (; 153 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
        )
       )
      )
-     (set_local $2
-      (i32.add
-       (get_local $2)
-       (i32.const 16)
+     (i32.const 35)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 36)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<i8,i8>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i16,i16>>#next|virtual (; 154 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
+     )
+    )
+    (i32.const 36)
+   )
+   (return
+    (call $~lib/set/SetEntryIterator<i16>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u16>#get:done|virtual (; 155 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
+       )
       )
      )
-     (br $continue|0)
+     (i32.const 41)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 42)
     )
    )
-  )
-  (i32.store
-   (get_local $0)
-   (get_local $4)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $7)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
+   (return
+    (call $~lib/set/SetIterator<i8,i8>#get:done
+     (get_local $0)
+    )
    )
   )
+  (unreachable)
  )
- (func $~lib/set/Set<f64>#add (; 69 ;) (; has Stack IR ;) (type $iFv) (param $0 i32) (param $1 f64)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
+ (func $~lib/iterator/Iterator<u16>#next|virtual (; 156 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (if
-   (i32.eqz
-    (call $~lib/set/Set<f64>#find
-     (get_local $0)
-     (get_local $1)
-     (tee_local $4
-      (call $~lib/internal/hash/hash<f64>
-       (get_local $1)
-      )
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
      )
     )
+    (i32.const 42)
    )
-   (block
-    (if
-     (i32.eq
-      (i32.load offset=16
-       (get_local $0)
-      )
-      (i32.load offset=12
-       (get_local $0)
+   (return
+    (call $~lib/set/SetValueIterator<u16>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u16,u16>>#get:done|virtual (; 157 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
+       )
       )
      )
-     (call $~lib/set/Set<f64>#rehash
+     (i32.const 46)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 47)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<i8,i8>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u16,u16>>#next|virtual (; 158 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
       (get_local $0)
-      (tee_local $2
-       (if (result i32)
-        (i32.lt_s
-         (i32.load offset=20
-          (get_local $0)
-         )
-         (i32.trunc_s/f64
-          (f64.mul
-           (f64.convert_s/i32
-            (i32.load offset=12
-             (get_local $0)
-            )
-           )
-           (f64.const 0.75)
-          )
-         )
-        )
-        (i32.load offset=4
-         (get_local $0)
-        )
-        (i32.or
-         (i32.shl
-          (i32.load offset=4
-           (get_local $0)
-          )
-          (i32.const 1)
-         )
-         (i32.const 1)
-        )
+      (i32.const 4)
+     )
+    )
+    (i32.const 47)
+   )
+   (return
+    (call $~lib/set/SetEntryIterator<u16>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i32>#get:done|virtual (; 159 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
        )
       )
      )
+     (i32.const 52)
     )
-    (set_local $2
-     (i32.load offset=8
+    (i32.eq
+     (get_local $1)
+     (i32.const 53)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<i8,i8>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i32>#next|virtual (; 160 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
       (get_local $0)
+      (i32.const 4)
      )
     )
-    (i32.store offset=16
+    (i32.const 53)
+   )
+   (return
+    (call $~lib/set/SetValueIterator<i32>#next
      (get_local $0)
-     (i32.add
-      (tee_local $3
-       (i32.load offset=16
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i32,i32>>#get:done|virtual (; 161 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
         (get_local $0)
+        (i32.const 4)
        )
       )
-      (i32.const 1)
      )
+     (i32.const 57)
     )
-    (f64.store
-     (tee_local $2
-      (i32.add
-       (i32.add
-        (get_local $2)
-        (i32.const 8)
-       )
-       (i32.shl
-        (get_local $3)
+    (i32.eq
+     (get_local $1)
+     (i32.const 58)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<i8,i8>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i32,i32>>#next|virtual (; 162 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
+     )
+    )
+    (i32.const 58)
+   )
+   (return
+    (call $~lib/set/SetEntryIterator<i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u32>#get:done|virtual (; 163 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
         (i32.const 4)
        )
       )
      )
+     (i32.const 63)
+    )
+    (i32.eq
      (get_local $1)
+     (i32.const 64)
     )
-    (i32.store offset=20
+   )
+   (return
+    (call $~lib/set/SetIterator<i8,i8>#get:done
      (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
-      )
-      (i32.const 1)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u32>#next|virtual (; 164 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
      )
     )
-    (i32.store offset=8
-     (get_local $2)
-     (i32.load offset=8
-      (tee_local $3
-       (i32.add
-        (i32.load
-         (get_local $0)
-        )
-        (i32.shl
-         (i32.and
-          (get_local $4)
-          (i32.load offset=4
-           (get_local $0)
-          )
-         )
-         (i32.const 2)
-        )
+    (i32.const 64)
+   )
+   (return
+    (call $~lib/set/SetValueIterator<i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u32,u32>>#get:done|virtual (; 165 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
        )
       )
      )
+     (i32.const 68)
     )
-    (i32.store offset=8
-     (get_local $3)
-     (get_local $2)
+    (i32.eq
+     (get_local $1)
+     (i32.const 69)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<i8,i8>#get:done
+     (get_local $0)
     )
    )
   )
+  (unreachable)
  )
- (func $~lib/set/Set<f64>#delete (; 70 ;) (; has Stack IR ;) (type $iFi) (param $0 i32) (param $1 f64) (result i32)
-  (local $2 i32)
-  (local $3 i32)
+ (func $~lib/iterator/Iterator<KeyValue<u32,u32>>#next|virtual (; 166 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (if
-   (i32.eqz
-    (tee_local $0
-     (call $~lib/set/Set<f64>#find
-      (tee_local $2
-       (get_local $0)
-      )
-      (get_local $1)
-      (tee_local $0
-       (call $~lib/internal/hash/hash64
-        (i64.reinterpret/f64
-         (get_local $1)
-        )
-       )
-      )
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
      )
     )
+    (i32.const 69)
    )
    (return
-    (i32.const 0)
-   )
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (i32.or
-    (i32.load offset=8
+    (call $~lib/set/SetEntryIterator<i32>#next
      (get_local $0)
     )
-    (i32.const 1)
-   )
-  )
-  (i32.store offset=20
-   (get_local $2)
-   (i32.sub
-    (i32.load offset=20
-     (get_local $2)
-    )
-    (i32.const 1)
    )
   )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i64>#get:done|virtual (; 167 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
   (if
-   (tee_local $0
-    (i32.ge_u
-     (i32.add
-      (tee_local $3
-       (i32.shr_u
-        (i32.load offset=4
-         (get_local $2)
-        )
-        (i32.const 1)
-       )
-      )
-      (i32.const 1)
-     )
-     (select
-      (i32.const 4)
-      (tee_local $0
-       (i32.load offset=20
-        (get_local $2)
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
        )
       )
-      (i32.gt_u
-       (i32.const 4)
-       (get_local $0)
-      )
      )
+     (i32.const 74)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 75)
     )
    )
-   (set_local $0
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $2)
-     )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $2)
-        )
-       )
-       (f64.const 0.75)
-      )
-     )
+   (return
+    (call $~lib/set/SetIterator<i64,i64>#get:done
+     (get_local $0)
     )
    )
   )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i64>#next|virtual (; 168 ;) (; has Stack IR ;) (type $iI) (param $0 i32) (result i64)
   (if
-   (get_local $0)
-   (call $~lib/set/Set<f64>#rehash
-    (get_local $2)
-    (get_local $3)
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
+     )
+    )
+    (i32.const 75)
+   )
+   (return
+    (call $~lib/set/SetValueIterator<i64>#next
+     (get_local $0)
+    )
    )
   )
-  (i32.const 1)
+  (unreachable)
  )
- (func $std/set/test<f64> (; 71 ;) (; has Stack IR ;) (type $v)
-  (local $0 f64)
+ (func $~lib/iterator/Iterator<KeyValue<i64,i64>>#get:done|virtual (; 169 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
-  (set_local $1
-   (call $~lib/set/Set<i64>#constructor)
-  )
-  (block $break|0
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (f64.lt
-       (get_local $0)
-       (f64.const 100)
-      )
-     )
-    )
-    (if
-     (call $~lib/set/Set<f64>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 8)
-       (i32.const 4)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
+       )
       )
-      (unreachable)
      )
+     (i32.const 79)
     )
-    (call $~lib/set/Set<f64>#add
+    (i32.eq
      (get_local $1)
+     (i32.const 80)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<i64,i64>#get:done
      (get_local $0)
     )
-    (if
-     (call $~lib/set/Set<f64>#has
-      (get_local $1)
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i64,i64>>#next|virtual (; 170 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
       (get_local $0)
+      (i32.const 4)
      )
-     (block
-      (set_local $0
-       (f64.add
+    )
+    (i32.const 80)
+   )
+   (return
+    (call $~lib/set/SetEntryIterator<i64>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u64>#get:done|virtual (; 171 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
         (get_local $0)
-        (f64.const 1)
+        (i32.const 4)
        )
       )
-      (br $repeat|0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 10)
-       (i32.const 4)
-      )
-      (unreachable)
      )
+     (i32.const 85)
     )
-   )
-  )
-  (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
+    (i32.eq
      (get_local $1)
+     (i32.const 86)
     )
-    (i32.const 100)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 12)
-     (i32.const 2)
+   (return
+    (call $~lib/set/SetIterator<i64,i64>#get:done
+     (get_local $0)
     )
-    (unreachable)
    )
   )
-  (block $break|1
-   (set_local $0
-    (f64.const 50)
-   )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.eqz
-      (f64.lt
-       (get_local $0)
-       (f64.const 100)
-      )
-     )
-    )
-    (if
-     (i32.eqz
-      (call $~lib/set/Set<f64>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 16)
-       (i32.const 4)
-      )
-      (unreachable)
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u64>#next|virtual (; 172 ;) (; has Stack IR ;) (type $iI) (param $0 i32) (result i64)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
      )
     )
-    (call $~lib/set/Set<f64>#add
-     (get_local $1)
+    (i32.const 86)
+   )
+   (return
+    (call $~lib/set/SetValueIterator<i64>#next
      (get_local $0)
     )
-    (if
-     (call $~lib/set/Set<f64>#has
-      (get_local $1)
-      (get_local $0)
-     )
-     (block
-      (set_local $0
-       (f64.add
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u64,u64>>#get:done|virtual (; 173 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
         (get_local $0)
-        (f64.const 1)
+        (i32.const 4)
        )
       )
-      (br $repeat|1)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 18)
-       (i32.const 4)
-      )
-      (unreachable)
      )
+     (i32.const 90)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 91)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<i64,i64>#get:done
+     (get_local $0)
     )
    )
   )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u64,u64>>#next|virtual (; 174 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
-     (get_local $1)
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
+     )
     )
-    (i32.const 100)
+    (i32.const 91)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 20)
-     (i32.const 2)
+   (return
+    (call $~lib/set/SetEntryIterator<i64>#next
+     (get_local $0)
     )
-    (unreachable)
    )
   )
-  (block $break|2
-   (set_local $0
-    (f64.const 0)
-   )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (f64.lt
-       (get_local $0)
-       (f64.const 50)
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<f32>#get:done|virtual (; 175 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
+       )
       )
      )
+     (i32.const 96)
     )
-    (if
-     (i32.eqz
-      (call $~lib/set/Set<f64>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 24)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
+    (i32.eq
+     (get_local $1)
+     (i32.const 97)
     )
-    (drop
-     (call $~lib/set/Set<f64>#delete
-      (get_local $1)
-      (get_local $0)
-     )
+   )
+   (return
+    (call $~lib/set/SetIterator<i8,i8>#get:done
+     (get_local $0)
     )
-    (if
-     (call $~lib/set/Set<f64>#has
-      (get_local $1)
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<f32>#next|virtual (; 176 ;) (; has Stack IR ;) (type $if) (param $0 i32) (result f32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
       (get_local $0)
+      (i32.const 4)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 26)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-     (block
-      (set_local $0
-       (f64.add
+    )
+    (i32.const 97)
+   )
+   (return
+    (call $~lib/set/SetValueIterator<f32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<f32,f32>>#get:done|virtual (; 177 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
         (get_local $0)
-        (f64.const 1)
+        (i32.const 4)
        )
       )
-      (br $repeat|2)
      )
+     (i32.const 101)
     )
-   )
-  )
-  (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
+    (i32.eq
      (get_local $1)
+     (i32.const 102)
     )
-    (i32.const 50)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 28)
-     (i32.const 2)
+   (return
+    (call $~lib/set/SetIterator<i8,i8>#get:done
+     (get_local $0)
     )
-    (unreachable)
    )
   )
-  (block $break|3
-   (set_local $0
-    (f64.const 0)
-   )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (f64.lt
-       (get_local $0)
-       (f64.const 50)
-      )
-     )
-    )
-    (if
-     (call $~lib/set/Set<f64>#has
-      (get_local $1)
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<f32,f32>>#next|virtual (; 178 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
       (get_local $0)
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 32)
-       (i32.const 4)
-      )
-      (unreachable)
+      (i32.const 4)
      )
     )
-    (call $~lib/set/Set<f64>#add
-     (get_local $1)
+    (i32.const 102)
+   )
+   (return
+    (call $~lib/set/SetEntryIterator<f32>#next
      (get_local $0)
     )
-    (if
-     (i32.eqz
-      (call $~lib/set/Set<f64>#has
-       (get_local $1)
-       (get_local $0)
-      )
-     )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 34)
-       (i32.const 4)
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<f64>#get:done|virtual (; 179 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
+       )
       )
-      (unreachable)
      )
+     (i32.const 107)
     )
-    (drop
-     (call $~lib/set/Set<f64>#delete
-      (get_local $1)
-      (get_local $0)
-     )
+    (i32.eq
+     (get_local $1)
+     (i32.const 108)
     )
-    (if
-     (call $~lib/set/Set<f64>#has
-      (get_local $1)
+   )
+   (return
+    (call $~lib/set/SetIterator<i64,i64>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<f64>#next|virtual (; 180 ;) (; has Stack IR ;) (type $iF) (param $0 i32) (result f64)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
       (get_local $0)
+      (i32.const 4)
      )
-     (block
-      (call $~lib/env/abort
-       (i32.const 0)
-       (i32.const 120)
-       (i32.const 36)
-       (i32.const 4)
-      )
-      (unreachable)
-     )
-     (block
-      (set_local $0
-       (f64.add
+    )
+    (i32.const 108)
+   )
+   (return
+    (call $~lib/set/SetValueIterator<f64>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<f64,f64>>#get:done|virtual (; 181 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
         (get_local $0)
-        (f64.const 1)
+        (i32.const 4)
        )
       )
-      (br $repeat|3)
      )
+     (i32.const 112)
     )
-   )
-  )
-  (if
-   (i32.ne
-    (call $~lib/set/Set<i8>#get:size
+    (i32.eq
      (get_local $1)
+     (i32.const 113)
     )
-    (i32.const 50)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 38)
-     (i32.const 2)
+   (return
+    (call $~lib/set/SetIterator<i64,i64>#get:done
+     (get_local $0)
     )
-    (unreachable)
    )
   )
-  (call $~lib/set/Set<i64>#clear
-   (get_local $1)
-  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<f64,f64>>#next|virtual (; 182 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
   (if
-   (call $~lib/set/Set<i8>#get:size
-    (get_local $1)
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
+     )
+    )
+    (i32.const 113)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
+   (return
+    (call $~lib/set/SetEntryIterator<f64>#next
+     (get_local $0)
     )
-    (unreachable)
    )
   )
+  (unreachable)
  )
- (func $start (; 72 ;) (; has Stack IR ;) (type $v)
+ (func $start (; 183 ;) (; has Stack IR ;) (type $v)
   (set_global $~lib/allocator/arena/startOffset
-   (i32.const 144)
+   (i32.const 1536)
   )
   (set_global $~lib/allocator/arena/offset
    (get_global $~lib/allocator/arena/startOffset)
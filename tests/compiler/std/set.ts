@@ -37,6 +37,35 @@ function test<K>(): void {
   }
   assert(set.size == 50);
 
+  // iterate
+  var count = 0;
+  for (let value of set.values()) {
+    assert(value >= 50 && value < 100);
+    assert(set.has(value));
+    ++count;
+  }
+  assert(count == 50);
+  for (let key of set.keys()) {
+    assert(set.has(key));
+    --count;
+  }
+  assert(count == 0);
+  for (let entry of set.entries()) {
+    assert(entry.key == entry.value);
+    ++count;
+  }
+  assert(count == 50);
+  for (let value of set) {
+    assert(set.has(value));
+    --count;
+  }
+  assert(count == 0);
+  set.forEach((value: K, key: K, set: Set<K>): void => {
+    assert(value == key);
+    ++count;
+  });
+  assert(count == 50);
+
   // clear
   set.clear();
   assert(set.size == 0);
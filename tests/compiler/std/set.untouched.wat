@@ -11,14 +11,23 @@
  (type $Ii (func (param i64) (result i32)))
  (type $iIii (func (param i32 i64 i32) (result i32)))
  (type $iIv (func (param i32 i64)))
+ (type $IIiv (func (param i64 i64 i32)))
  (type $ifi (func (param i32 f32) (result i32)))
  (type $fi (func (param f32) (result i32)))
  (type $ifii (func (param i32 f32 i32) (result i32)))
  (type $ifv (func (param i32 f32)))
+ (type $ffiv (func (param f32 f32 i32)))
  (type $iFi (func (param i32 f64) (result i32)))
  (type $Fi (func (param f64) (result i32)))
  (type $iFii (func (param i32 f64 i32) (result i32)))
  (type $iFv (func (param i32 f64)))
+ (type $FFiv (func (param f64 f64 i32)))
+ (type $iI (func (param i32) (result i64)))
+ (type $iIIi (func (param i32 i64 i64) (result i32)))
+ (type $if (func (param i32) (result f32)))
+ (type $iffi (func (param i32 f32 f32) (result i32)))
+ (type $iF (func (param i32) (result f64)))
+ (type $iFFi (func (param i32 f64 f64) (result i32)))
  (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
  (global $~lib/internal/allocator/AL_BITS i32 (i32.const 3))
  (global $~lib/internal/allocator/AL_SIZE i32 (i32.const 8))
@@ -35,12 +44,21 @@
  (global $~lib/set/EMPTY i32 (i32.const 1))
  (global $~lib/set/FREE_FACTOR f64 (f64.const 0.75))
  (global $~lib/set/FILL_FACTOR f64 (f64.const 2.6666666666666665))
- (global $HEAP_BASE i32 (i32.const 144))
+ (global $~env (mut i32) (i32.const 0))
+ (global $~argc (mut i32) (i32.const 0))
+ (global $RTTI_BASE i32 (i32.const 176))
+ (global $HEAP_BASE i32 (i32.const 1536))
+ (table 10 10 anyfunc)
+ (elem (i32.const 0) $std/set/test<i8>~anonymous|0 $std/set/test<u8>~anonymous|1 $std/set/test<i16>~anonymous|2 $std/set/test<u16>~anonymous|3 $std/set/test<i32>~anonymous|4 $std/set/test<u32>~anonymous|5 $std/set/test<i64>~anonymous|6 $std/set/test<u64>~anonymous|7 $std/set/test<f32>~anonymous|8 $std/set/test<f64>~anonymous|9)
  (memory $0 1)
  (data (i32.const 8) "\13\00\00\00~\00l\00i\00b\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s\00")
  (data (i32.const 56) "\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s\00")
  (data (i32.const 120) "\n\00\00\00s\00t\00d\00/\00s\00e\00t\00.\00t\00s\00")
+ (data (i32.const 144) "\0b\00\00\00~\00l\00i\00b\00/\00s\00e\00t\00.\00t\00s\00")
+ (data (i32.const 176) "q\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\02\00\00\00\00\00\00\00\00\00\00\00\03\00\00\00\00\00\00\00\04\00\00\00\04\00\00\00\00\00\00\00\00\00\00\00\05\00\00\00\00\00\00\00\00\00\00\00\06\00\00\00\00\00\00\00\04\00\00\00\07\00\00\00\06\00\00\00\04\00\00\00\08\00\00\00\07\00\00\00\04\00\00\00\t\00\00\00\08\00\00\00\04\00\00\00\n\00\00\00\00\00\00\00\00\00\00\00\0b\00\00\00\00\00\00\00\04\00\00\00\0c\00\00\00\0b\00\00\00\04\00\00\00\0d\00\00\00\0c\00\00\00\04\00\00\00\0e\00\00\00\0d\00\00\00\04\00\00\00\0f\00\00\00\00\00\00\00\00\00\00\00\10\00\00\00\00\00\00\00\00\00\00\00\11\00\00\00\00\00\00\00\04\00\00\00\12\00\00\00\11\00\00\00\04\00\00\00\13\00\00\00\12\00\00\00\04\00\00\00\14\00\00\00\13\00\00\00\04\00\00\00\15\00\00\00\00\00\00\00\00\00\00\00\16\00\00\00\00\00\00\00\04\00\00\00\17\00\00\00\16\00\00\00\04\00\00\00\18\00\00\00\17\00\00\00\04\00\00\00\19\00\00\00\18\00\00\00\04\00\00\00\1a\00\00\00\00\00\00\00\00\00\00\00\1b\00\00\00\00\00\00\00\00\00\00\00\1c\00\00\00\00\00\00\00\04\00\00\00\1d\00\00\00\1c\00\00\00\04\00\00\00\1e\00\00\00\1d\00\00\00\04\00\00\00\1f\00\00\00\1e\00\00\00\04\00\00\00 \00\00\00\00\00\00\00\00\00\00\00!\00\00\00\00\00\00\00\04\00\00\00\"\00\00\00!\00\00\00\04\00\00\00#\00\00\00\"\00\00\00\04\00\00\00$\00\00\00#\00\00\00\04\00\00\00%\00\00\00\00\00\00\00\00\00\00\00&\00\00\00\00\00\00\00\00\00\00\00\'\00\00\00\00\00\00\00\04\00\00\00(\00\00\00\'\00\00\00\04\00\00\00)\00\00\00(\00\00\00\04\00\00\00*\00\00\00)\00\00\00\04\00\00\00+\00\00\00\00\00\00\00\00\00\00\00,\00\00\00\00\00\00\00\04\00\00\00-\00\00\00,\00\00\00\04\00\00\00.\00\00\00-\00\00\00\04\00\00\00/\00\00\00.\00\00\00\04\00\00\000\00\00\00\00\00\00\00\00\00\00\001\00\00\00\00\00\00\00\00\00\00\002\00\00\00\00\00\00\00\04\00\00\003\00\00\002\00\00\00\04\00\00\004\00\00\003\00\00\00\04\00\00\005\00\00\004\00\00\00\04\00\00\006\00\00\00\00\00\00\00\00\00\00\007\00\00\00\00\00\00\00\04\00\00\008\00\00\007\00\00\00\04\00\00\009\00\00\008\00\00\00\04\00\00\00:\00\00\009\00\00\00\04\00\00\00;\00\00\00\00\00\00\00\00\00\00\00<\00\00\00\00\00\00\00\00\00\00\00=\00\00\00\00\00\00\00\04\00\00\00>\00\00\00=\00\00\00\04\00\00\00?\00\00\00>\00\00\00\04\00\00\00@\00\00\00?\00\00\00\04\00\00\00A\00\00\00\00\00\00\00\00\00\00\00B\00\00\00\00\00\00\00\04\00\00\00C\00\00\00B\00\00\00\04\00\00\00D\00\00\00C\00\00\00\04\00\00\00E\00\00\00D\00\00\00\04\00\00\00F\00\00\00\00\00\00\00\00\00\00\00G\00\00\00\00\00\00\00\00\00\00\00H\00\00\00\00\00\00\00\04\00\00\00I\00\00\00H\00\00\00\04\00\00\00J\00\00\00I\00\00\00\04\00\00\00K\00\00\00J\00\00\00\04\00\00\00L\00\00\00\00\00\00\00\00\00\00\00M\00\00\00\00\00\00\00\04\00\00\00N\00\00\00M\00\00\00\04\00\00\00O\00\00\00N\00\00\00\04\00\00\00P\00\00\00O\00\00\00\04\00\00\00Q\00\00\00\00\00\00\00\00\00\00\00R\00\00\00\00\00\00\00\00\00\00\00S\00\00\00\00\00\00\00\04\00\00\00T\00\00\00S\00\00\00\04\00\00\00U\00\00\00T\00\00\00\04\00\00\00V\00\00\00U\00\00\00\04\00\00\00W\00\00\00\00\00\00\00\00\00\00\00X\00\00\00\00\00\00\00\04\00\00\00Y\00\00\00X\00\00\00\04\00\00\00Z\00\00\00Y\00\00\00\04\00\00\00[\00\00\00Z\00\00\00\04\00\00\00\\\00\00\00\00\00\00\00\00\00\00\00]\00\00\00\00\00\00\00\00\00\00\00^\00\00\00\00\00\00\00\04\00\00\00_\00\00\00^\00\00\00\04\00\00\00`\00\00\00_\00\00\00\04\00\00\00a\00\00\00`\00\00\00\04\00\00\00b\00\00\00\00\00\00\00\00\00\00\00c\00\00\00\00\00\00\00\04\00\00\00d\00\00\00c\00\00\00\04\00\00\00e\00\00\00d\00\00\00\04\00\00\00f\00\00\00e\00\00\00\04\00\00\00g\00\00\00\00\00\00\00\00\00\00\00h\00\00\00\00\00\00\00\00\00\00\00i\00\00\00\00\00\00\00\04\00\00\00j\00\00\00i\00\00\00\04\00\00\00k\00\00\00j\00\00\00\04\00\00\00l\00\00\00k\00\00\00\04\00\00\00m\00\00\00\00\00\00\00\00\00\00\00n\00\00\00\00\00\00\00\04\00\00\00o\00\00\00n\00\00\00\04\00\00\00p\00\00\00o\00\00\00\04\00\00\00q\00\00\00p\00\00\00\04\00\00\00")
+ (export "RTTI_BASE" (global $RTTI_BASE))
  (export "memory" (memory $0))
+ (export "table" (table $0))
  (start $start)
  (func $~lib/allocator/arena/__memory_allocate (; 1 ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
@@ -1253,2443 +1271,2713 @@
   )
   (i32.const 1)
  )
- (func $std/set/test<i8> (; 17 ;) (type $v)
-  (local $0 i32)
+ (func $~lib/set/Set<i8>#values (; 17 ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
-  (set_local $0
-   (call $~lib/set/Set<i8>#constructor
-    (i32.const 0)
-   )
-  )
-  (block $break|0
-   (set_local $1
-    (i32.const 0)
-   )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 100)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 9)
       )
+      (get_local $2)
      )
     )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<i8>#has
-         (get_local $0)
-         (get_local $1)
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<i8>#__iterator (; 18 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<i8>#keys (; 19 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<i8>#values
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<i8>#entries (; 20 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
         )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 8)
         (i32.const 4)
        )
-       (unreachable)
+       (i32.const 14)
       )
+      (get_local $2)
      )
-     (call $~lib/set/Set<i8>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<i8>#has
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<KeyValue<i8,i8>>#__iterator (; 21 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<i8>#__iterator (; 22 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<i8>#values
+   (get_local $0)
+  )
+ )
+ (func $std/set/test<i8>~anonymous|0 (; 23 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (block
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.shr_s
+       (i32.shl
         (get_local $0)
-        (get_local $1)
+        (i32.const 24)
        )
+       (i32.const 24)
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 10)
-        (i32.const 4)
+      (i32.shr_s
+       (i32.shl
+        (get_local $1)
+        (i32.const 24)
        )
-       (unreachable)
+       (i32.const 24)
       )
      )
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 64)
+      (i32.const 4)
      )
+     (unreachable)
     )
-    (br $repeat|0)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<i8>#get:size
-      (get_local $0)
+   (i32.store offset=4
+    (get_local $3)
+    (i32.add
+     (i32.load offset=4
+      (get_local $3)
      )
-     (i32.const 100)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 12)
-     (i32.const 2)
+     (i32.const 1)
     )
-    (unreachable)
    )
   )
-  (block $break|1
-   (set_local $1
-    (i32.const 50)
+ )
+ (func $~lib/set/Set<i8>#forEach (; 24 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
    )
-   (loop $repeat|1
-    (br_if $break|1
+   (loop $repeat|0
+    (br_if $break|0
      (i32.eqz
       (i32.lt_s
-       (get_local $1)
-       (i32.const 100)
+       (get_local $2)
+       (i32.load offset=16
+        (get_local $0)
+       )
       )
      )
     )
     (block
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<i8>#has
-        (get_local $0)
-        (get_local $1)
+     (set_local $3
+      (i32.add
+       (i32.add
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 16)
-        (i32.const 4)
+       (i32.mul
+        (get_local $2)
+        (block $~lib/set/ENTRY_SIZE<i8>|inlined.6 (result i32)
+         (i32.const 8)
+        )
        )
-       (unreachable)
       )
      )
-     (call $~lib/set/Set<i8>#add
-      (get_local $0)
-      (get_local $1)
-     )
      (if
       (i32.eqz
-       (call $~lib/set/Set<i8>#has
-        (get_local $0)
-        (get_local $1)
+       (i32.and
+        (i32.load offset=4
+         (get_local $3)
+        )
+        (get_global $~lib/set/EMPTY)
        )
       )
       (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 18)
-        (i32.const 4)
+       (set_global $~argc
+        (i32.const 3)
+       )
+       (call_indirect (type $iiiv)
+        (i32.load8_s
+         (get_local $3)
+        )
+        (i32.load8_s
+         (get_local $3)
+        )
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (get_local $1)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
        )
-       (unreachable)
       )
      )
     )
-    (set_local $1
+    (set_local $2
      (i32.add
-      (get_local $1)
+      (get_local $2)
       (i32.const 1)
      )
     )
-    (br $repeat|1)
+    (br $repeat|0)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<i8>#get:size
-      (get_local $0)
-     )
-     (i32.const 100)
-    )
+ )
+ (func $std/set/test<i8> (; 25 ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (set_local $2
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
    )
-   (block
-    (call $~lib/env/abort
+  )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block
+   (set_local $0
+    (call $~lib/set/Set<i8>#constructor
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 20)
-     (i32.const 2)
     )
-    (unreachable)
-   )
-  )
-  (block $break|2
-   (set_local $1
-    (i32.const 0)
    )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 50)
-      )
-     )
+   (block $break|0
+    (set_local $1
+     (i32.const 0)
     )
-    (block
-     (if
+    (loop $repeat|0
+     (br_if $break|0
       (i32.eqz
-       (call $~lib/set/Set<i8>#has
-        (get_local $0)
+       (i32.lt_s
         (get_local $1)
+        (i32.const 100)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 24)
-        (i32.const 4)
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<i8>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 8)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
-     )
-     (drop
-      (call $~lib/set/Set<i8>#delete
+      (call $~lib/set/Set<i8>#add
        (get_local $0)
        (get_local $1)
       )
-     )
-     (if
-      (i32.eqz
+      (if
        (i32.eqz
         (call $~lib/set/Set<i8>#has
          (get_local $0)
          (get_local $1)
         )
        )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 10)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 26)
-        (i32.const 4)
-       )
-       (unreachable)
+     )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
       )
      )
+     (br $repeat|0)
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<i8>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
      )
     )
-    (br $repeat|2)
-   )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<i8>#get:size
-      (get_local $0)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 12)
+      (i32.const 2)
      )
-     (i32.const 50)
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 28)
-     (i32.const 2)
+   (block $break|1
+    (set_local $1
+     (i32.const 50)
     )
-    (unreachable)
-   )
-  )
-  (block $break|3
-   (set_local $1
-    (i32.const 0)
-   )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 50)
+    (loop $repeat|1
+     (br_if $break|1
+      (i32.eqz
+       (i32.lt_s
+        (get_local $1)
+        (i32.const 100)
+       )
       )
      )
-    )
-    (block
-     (if
-      (i32.eqz
+     (block
+      (if
        (i32.eqz
         (call $~lib/set/Set<i8>#has
          (get_local $0)
          (get_local $1)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 32)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/set/Set<i8>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<i8>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 34)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 16)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
-     )
-     (drop
-      (call $~lib/set/Set<i8>#delete
+      (call $~lib/set/Set<i8>#add
        (get_local $0)
        (get_local $1)
       )
-     )
-     (if
-      (i32.eqz
+      (if
        (i32.eqz
         (call $~lib/set/Set<i8>#has
          (get_local $0)
          (get_local $1)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 36)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 18)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-    )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
+     (br $repeat|1)
     )
-    (br $repeat|3)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<i8>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<i8>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
      )
-     (i32.const 50)
     )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 38)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
-  )
-  (call $~lib/set/Set<i8>#clear
-   (get_local $0)
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<i8>#get:size
-      (get_local $0)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 20)
+      (i32.const 2)
      )
-     (i32.const 0)
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
+   (block $break|2
+    (set_local $1
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
     )
-    (unreachable)
-   )
-  )
- )
- (func $~lib/set/Set<u8>#clear (; 18 ;) (type $iv) (param $0 i32)
-  (i32.store
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 16)
-    (i32.const 0)
-   )
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (i32.sub
-    (get_global $~lib/set/INITIAL_CAPACITY)
-    (i32.const 1)
-   )
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 32)
-    (i32.const 1)
-   )
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_global $~lib/set/INITIAL_CAPACITY)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.const 0)
-  )
- )
- (func $~lib/set/Set<u8>#constructor (; 19 ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (call $~lib/set/Set<u8>#clear
-   (tee_local $0
-    (if (result i32)
-     (get_local $0)
-     (get_local $0)
-     (tee_local $0
-      (block (result i32)
-       (set_local $1
-        (call $~lib/memory/memory.allocate
-         (i32.const 24)
-        )
-       )
-       (i32.store
+    (loop $repeat|2
+     (br_if $break|2
+      (i32.eqz
+       (i32.lt_s
         (get_local $1)
-        (i32.const 0)
+        (i32.const 50)
        )
-       (i32.store offset=4
-        (get_local $1)
-        (i32.const 0)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i8>#has
+         (get_local $0)
+         (get_local $1)
+        )
        )
-       (i32.store offset=8
-        (get_local $1)
-        (i32.const 0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 24)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (i32.store offset=12
+      )
+      (drop
+       (call $~lib/set/Set<i8>#delete
+        (get_local $0)
         (get_local $1)
-        (i32.const 0)
        )
-       (i32.store offset=16
-        (get_local $1)
-        (i32.const 0)
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<i8>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
        )
-       (i32.store offset=20
-        (get_local $1)
-        (i32.const 0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 26)
+         (i32.const 4)
+        )
+        (unreachable)
        )
+      )
+     )
+     (set_local $1
+      (i32.add
        (get_local $1)
+       (i32.const 1)
       )
      )
+     (br $repeat|2)
     )
    )
-  )
-  (get_local $0)
- )
- (func $~lib/internal/hash/hash<u8> (; 20 ;) (type $ii) (param $0 i32) (result i32)
-  (return
-   (call $~lib/internal/hash/hash8
-    (i32.and
-     (get_local $0)
-     (i32.const 255)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<i8>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
     )
-   )
-  )
- )
- (func $~lib/set/Set<u8>#find (; 21 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
-  (local $3 i32)
-  (local $4 i32)
-  (set_local $3
-   (i32.load offset=8
-    (i32.add
-     (i32.load
-      (get_local $0)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 28)
+      (i32.const 2)
      )
-     (i32.mul
-      (i32.and
-       (get_local $2)
-       (i32.load offset=4
-        (get_local $0)
+     (unreachable)
+    )
+   )
+   (block $break|3
+    (set_local $1
+     (i32.const 0)
+    )
+    (loop $repeat|3
+     (br_if $break|3
+      (i32.eqz
+       (i32.lt_s
+        (get_local $1)
+        (i32.const 50)
        )
       )
-      (get_global $~lib/set/BUCKET_SIZE)
      )
-    )
-   )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (get_local $3)
      (block
-      (block
-       (if
-        (if (result i32)
-         (tee_local $4
-          (i32.eqz
-           (i32.and
-            (i32.load offset=4
-             (get_local $3)
-            )
-            (get_global $~lib/set/EMPTY)
-           )
-          )
-         )
-         (i32.eq
-          (i32.load8_u
-           (get_local $3)
-          )
-          (i32.and
-           (get_local $1)
-           (i32.const 255)
-          )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<i8>#has
+          (get_local $0)
+          (get_local $1)
          )
-         (get_local $4)
         )
-        (return
-         (get_local $3)
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 32)
+         (i32.const 4)
         )
+        (unreachable)
        )
-       (set_local $3
-        (i32.and
-         (i32.load offset=4
-          (get_local $3)
-         )
-         (i32.xor
-          (get_global $~lib/set/EMPTY)
-          (i32.const -1)
+      )
+      (call $~lib/set/Set<i8>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i8>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 34)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/set/Set<i8>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<i8>#has
+          (get_local $0)
+          (get_local $1)
          )
         )
        )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 36)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
-      (br $continue|0)
      )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (br $repeat|3)
     )
    )
-  )
-  (i32.const 0)
- )
- (func $~lib/set/Set<u8>#has (; 22 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.ne
-   (call $~lib/set/Set<u8>#find
-    (get_local $0)
-    (get_local $1)
-    (call $~lib/internal/hash/hash<u8>
-     (get_local $1)
-    )
-   )
-   (i32.const 0)
-  )
- )
- (func $~lib/set/Set<u8>#rehash (; 23 ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (local $9 i32)
-  (local $10 i32)
-  (local $11 i32)
-  (local $12 i32)
-  (set_local $2
-   (i32.add
-    (get_local $1)
-    (i32.const 1)
-   )
-  )
-  (set_local $3
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $2)
-     (get_global $~lib/set/BUCKET_SIZE)
-    )
-    (i32.const 0)
-   )
-  )
-  (set_local $4
-   (i32.trunc_s/f64
-    (f64.mul
-     (f64.convert_s/i32
-      (get_local $2)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<i8>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
      )
-     (get_global $~lib/set/FILL_FACTOR)
     )
-   )
-  )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $4)
-     (block $~lib/set/ENTRY_SIZE<u8>|inlined.1 (result i32)
-      (i32.const 8)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 38)
+      (i32.const 2)
      )
+     (unreachable)
     )
-    (i32.const 1)
    )
-  )
-  (set_local $6
-   (i32.add
-    (i32.load offset=8
-     (get_local $0)
-    )
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   (i32.store offset=4
+    (get_local $2)
+    (i32.const 0)
    )
-  )
-  (set_local $7
-   (i32.add
-    (get_local $6)
-    (i32.mul
-     (i32.load offset=16
-      (get_local $0)
-     )
-     (block $~lib/set/ENTRY_SIZE<u8>|inlined.2 (result i32)
-      (i32.const 8)
+   (block $break|4
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<i8>#__iterator
+      (call $~lib/set/Set<i8>#values
+       (get_local $0)
+      )
      )
     )
-   )
-  )
-  (set_local $8
-   (i32.add
-    (get_local $5)
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
-   )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (i32.ne
-      (get_local $6)
-      (get_local $7)
+    (loop $repeat|4
+     (br_if $break|4
+      (call $~lib/iterator/Iterator<i8>#get:done|virtual
+       (get_local $1)
+      )
      )
      (block
       (block
-       (set_local $9
-        (get_local $6)
-       )
-       (if
-        (i32.eqz
-         (i32.and
-          (i32.load offset=4
-           (get_local $9)
-          )
-          (get_global $~lib/set/EMPTY)
-         )
+       (set_local $5
+        (call $~lib/memory/memory.allocate
+         (i32.const 5)
         )
-        (block
-         (set_local $10
-          (get_local $8)
-         )
-         (i32.store8
-          (get_local $10)
-          (i32.load8_u
-           (get_local $9)
-          )
-         )
-         (set_local $11
-          (i32.and
-           (block $~lib/internal/hash/hash<u8>|inlined.0 (result i32)
-            (set_local $11
-             (i32.load8_u
-              (get_local $9)
-             )
-            )
-            (br $~lib/internal/hash/hash<u8>|inlined.0
-             (call $~lib/internal/hash/hash8
-              (get_local $11)
-             )
-            )
-           )
-           (get_local $1)
-          )
-         )
-         (set_local $12
-          (i32.add
-           (get_local $3)
-           (i32.mul
-            (get_local $11)
-            (get_global $~lib/set/BUCKET_SIZE)
+       )
+       (i32.store
+        (get_local $5)
+        (get_local $2)
+       )
+       (i32.store8 offset=4
+        (get_local $5)
+        (i32.const 0)
+       )
+      )
+      (i32.store8 offset=4
+       (get_local $5)
+       (call $~lib/iterator/Iterator<i8>#next|virtual
+        (get_local $1)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $6
+          (i32.ge_s
+           (i32.load8_s offset=4
+            (get_local $5)
            )
+           (i32.const 50)
           )
          )
-         (i32.store offset=4
-          (get_local $10)
-          (i32.load offset=8
-           (get_local $12)
-          )
-         )
-         (i32.store offset=8
-          (get_local $12)
-          (get_local $8)
-         )
-         (set_local $8
-          (i32.add
-           (get_local $8)
-           (block $~lib/set/ENTRY_SIZE<u8>|inlined.3 (result i32)
-            (i32.const 8)
-           )
+         (i32.lt_s
+          (i32.load8_s offset=4
+           (get_local $5)
           )
+          (i32.const 100)
          )
+         (get_local $6)
         )
        )
-       (set_local $6
-        (i32.add
-         (get_local $6)
-         (block $~lib/set/ENTRY_SIZE<u8>|inlined.4 (result i32)
-          (i32.const 8)
-         )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 43)
+         (i32.const 4)
         )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i8>#has
+         (get_local $0)
+         (i32.load8_s offset=4
+          (get_local $5)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 44)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
       )
-      (br $continue|0)
      )
+     (br $repeat|4)
     )
    )
-  )
-  (i32.store
-   (get_local $0)
-   (get_local $3)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $4)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
-   )
-  )
- )
- (func $~lib/set/Set<u8>#add (; 24 ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (set_local $2
-   (call $~lib/internal/hash/hash<u8>
-    (get_local $1)
-   )
-  )
-  (set_local $3
-   (call $~lib/set/Set<u8>#find
-    (get_local $0)
-    (get_local $1)
-    (get_local $2)
-   )
-  )
-  (if
-   (i32.eqz
-    (get_local $3)
-   )
-   (block
-    (if
+   (if
+    (i32.eqz
      (i32.eq
-      (i32.load offset=16
-       (get_local $0)
+      (i32.load offset=4
+       (get_local $2)
       )
-      (i32.load offset=12
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 47)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|5
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<i8>#__iterator
+      (call $~lib/set/Set<i8>#keys
        (get_local $0)
       )
      )
-     (call $~lib/set/Set<u8>#rehash
-      (get_local $0)
-      (if (result i32)
-       (i32.lt_s
-        (i32.load offset=20
-         (get_local $0)
+    )
+    (loop $repeat|5
+     (br_if $break|5
+      (call $~lib/iterator/Iterator<i8>#get:done|virtual
+       (get_local $1)
+      )
+     )
+     (block
+      (block
+       (set_local $8
+        (call $~lib/memory/memory.allocate
+         (i32.const 5)
         )
-        (i32.trunc_s/f64
-         (f64.mul
-          (f64.convert_s/i32
-           (i32.load offset=12
-            (get_local $0)
-           )
-          )
-          (get_global $~lib/set/FREE_FACTOR)
+       )
+       (i32.store
+        (get_local $8)
+        (get_local $2)
+       )
+       (i32.store8 offset=4
+        (get_local $8)
+        (i32.const 0)
+       )
+      )
+      (i32.store8 offset=4
+       (get_local $8)
+       (call $~lib/iterator/Iterator<i8>#next|virtual
+        (get_local $1)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i8>#has
+         (get_local $0)
+         (i32.load8_s offset=4
+          (get_local $8)
          )
         )
        )
-       (i32.load offset=4
-        (get_local $0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 49)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (i32.or
-        (i32.shl
-         (i32.load offset=4
-          (get_local $0)
-         )
-         (i32.const 1)
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
         )
         (i32.const 1)
        )
       )
      )
+     (br $repeat|5)
     )
-    (set_local $4
-     (i32.load offset=8
-      (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
      )
     )
-    (set_local $3
-     (i32.add
-      (i32.add
-       (get_local $4)
-       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 52)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|6
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<KeyValue<i8,i8>>#__iterator
+      (call $~lib/set/Set<i8>#entries
+       (get_local $0)
       )
-      (i32.mul
-       (block (result i32)
-        (set_local $5
-         (i32.load offset=16
-          (get_local $0)
+     )
+    )
+    (loop $repeat|6
+     (br_if $break|6
+      (call $~lib/iterator/Iterator<KeyValue<i8,i8>>#get:done|virtual
+       (get_local $1)
+      )
+     )
+     (set_local $6
+      (call $~lib/iterator/Iterator<KeyValue<i8,i8>>#next|virtual
+       (get_local $1)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load8_s
+          (get_local $6)
          )
-        )
-        (i32.store offset=16
-         (get_local $0)
-         (i32.add
-          (get_local $5)
-          (i32.const 1)
+         (i32.load8_s offset=1
+          (get_local $6)
          )
         )
-        (get_local $5)
        )
-       (block $~lib/set/ENTRY_SIZE<u8>|inlined.5 (result i32)
-        (i32.const 8)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 54)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
       )
      )
+     (br $repeat|6)
     )
-    (i32.store8
-     (get_local $3)
-     (get_local $1)
-    )
-    (i32.store offset=20
-     (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
       )
-      (i32.const 1)
+      (i32.const 50)
      )
     )
-    (set_local $5
-     (i32.add
-      (i32.load
-       (get_local $0)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 57)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|7
+    (set_local $6
+     (call $~lib/set/Set<i8>#__iterator
+      (get_local $0)
+     )
+    )
+    (loop $repeat|7
+     (br_if $break|7
+      (call $~lib/iterator/Iterator<i8>#get:done|virtual
+       (get_local $6)
       )
-      (i32.mul
-       (i32.and
+     )
+     (block
+      (block
+       (set_local $10
+        (call $~lib/memory/memory.allocate
+         (i32.const 5)
+        )
+       )
+       (i32.store
+        (get_local $10)
         (get_local $2)
-        (i32.load offset=4
+       )
+       (i32.store8 offset=4
+        (get_local $10)
+        (i32.const 0)
+       )
+      )
+      (i32.store8 offset=4
+       (get_local $10)
+       (call $~lib/iterator/Iterator<i8>#next|virtual
+        (get_local $6)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i8>#has
          (get_local $0)
+         (i32.load8_s offset=4
+          (get_local $10)
+         )
         )
        )
-       (get_global $~lib/set/BUCKET_SIZE)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 59)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
       )
      )
+     (br $repeat|7)
     )
-    (i32.store offset=4
-     (get_local $3)
-     (i32.load offset=8
-      (get_local $5)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
      )
     )
-    (i32.store offset=8
-     (get_local $5)
-     (get_local $3)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 62)
+      (i32.const 2)
+     )
+     (unreachable)
     )
    )
-  )
- )
- (func $~lib/set/Set<u8>#get:size (; 25 ;) (type $ii) (param $0 i32) (result i32)
-  (i32.load offset=20
-   (get_local $0)
-  )
- )
- (func $~lib/set/Set<u8>#delete (; 26 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (set_local $2
-   (call $~lib/set/Set<u8>#find
+   (call $~lib/set/Set<i8>#forEach
     (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<u8>|inlined.1 (result i32)
-     (br $~lib/internal/hash/hash<u8>|inlined.1
-      (call $~lib/internal/hash/hash8
-       (i32.and
-        (get_local $1)
-        (i32.const 255)
-       )
+    (block (result i32)
+     (set_local $6
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
       )
      )
+     (i32.store
+      (get_local $6)
+      (i32.const 0)
+     )
+     (i32.store offset=4
+      (get_local $6)
+      (get_local $2)
+     )
+     (get_local $6)
     )
    )
-  )
-  (if
-   (i32.eqz
-    (get_local $2)
-   )
-   (return
-    (i32.const 0)
-   )
-  )
-  (i32.store offset=4
-   (get_local $2)
-   (i32.or
-    (i32.load offset=4
-     (get_local $2)
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
     )
-    (get_global $~lib/set/EMPTY)
-   )
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.sub
-    (i32.load offset=20
-     (get_local $0)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 67)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (i32.const 1)
    )
-  )
-  (set_local $3
-   (i32.shr_u
-    (i32.load offset=4
-     (get_local $0)
-    )
-    (i32.const 1)
+   (call $~lib/set/Set<i8>#clear
+    (get_local $0)
    )
-  )
-  (if
-   (if (result i32)
-    (tee_local $4
-     (i32.ge_u
-      (i32.add
-       (get_local $3)
-       (i32.const 1)
-      )
-      (select
-       (tee_local $4
-        (get_global $~lib/set/INITIAL_CAPACITY)
-       )
-       (tee_local $5
-        (i32.load offset=20
-         (get_local $0)
-        )
-       )
-       (i32.gt_u
-        (get_local $4)
-        (get_local $5)
-       )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<i8>#get:size
+       (get_local $0)
       )
+      (i32.const 0)
      )
     )
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $0)
-     )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $0)
-        )
-       )
-       (get_global $~lib/set/FREE_FACTOR)
-      )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 71)
+      (i32.const 2)
      )
+     (unreachable)
     )
-    (get_local $4)
-   )
-   (call $~lib/set/Set<u8>#rehash
-    (get_local $0)
-    (get_local $3)
    )
   )
-  (i32.const 1)
  )
- (func $std/set/test<u8> (; 27 ;) (type $v)
-  (local $0 i32)
-  (local $1 i32)
-  (set_local $0
-   (call $~lib/set/Set<u8>#constructor
+ (func $~lib/set/Set<u8>#clear (; 26 ;) (type $iv) (param $0 i32)
+  (i32.store
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 16)
     (i32.const 0)
    )
   )
-  (block $break|0
-   (set_local $1
+  (i32.store offset=4
+   (get_local $0)
+   (i32.sub
+    (get_global $~lib/set/INITIAL_CAPACITY)
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
     (i32.const 0)
+    (i32.const 32)
+    (i32.const 1)
    )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (i32.lt_u
-       (get_local $1)
-       (i32.const 100)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<u8>#has
-         (get_local $0)
-         (get_local $1)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_global $~lib/set/INITIAL_CAPACITY)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/set/Set<u8>#constructor (; 27 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/set/Set<u8>#clear
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $1
+        (call $~lib/memory/memory.allocate
+         (i32.const 24)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
+       (i32.store
+        (get_local $1)
         (i32.const 0)
-        (i32.const 120)
-        (i32.const 8)
-        (i32.const 4)
        )
-       (unreachable)
-      )
-     )
-     (call $~lib/set/Set<u8>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<u8>#has
-        (get_local $0)
+       (i32.store offset=4
         (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
         (i32.const 0)
-        (i32.const 120)
-        (i32.const 10)
-        (i32.const 4)
        )
-       (unreachable)
-      )
-     )
-    )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
-     )
-    )
-    (br $repeat|0)
-   )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<u8>#get:size
-      (get_local $0)
-     )
-     (i32.const 100)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 12)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
-  )
-  (block $break|1
-   (set_local $1
-    (i32.const 50)
-   )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.eqz
-      (i32.lt_u
-       (get_local $1)
-       (i32.const 100)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<u8>#has
-        (get_local $0)
+       (i32.store offset=8
         (get_local $1)
+        (i32.const 0)
        )
-      )
-      (block
-       (call $~lib/env/abort
+       (i32.store offset=12
+        (get_local $1)
         (i32.const 0)
-        (i32.const 120)
-        (i32.const 16)
-        (i32.const 4)
        )
-       (unreachable)
-      )
-     )
-     (call $~lib/set/Set<u8>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<u8>#has
-        (get_local $0)
+       (i32.store offset=16
         (get_local $1)
+        (i32.const 0)
        )
-      )
-      (block
-       (call $~lib/env/abort
+       (i32.store offset=20
+        (get_local $1)
         (i32.const 0)
-        (i32.const 120)
-        (i32.const 18)
-        (i32.const 4)
        )
-       (unreachable)
+       (get_local $1)
       )
      )
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
-     )
-    )
-    (br $repeat|1)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<u8>#get:size
-      (get_local $0)
-     )
-     (i32.const 100)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 20)
-     (i32.const 2)
+  (get_local $0)
+ )
+ (func $~lib/internal/hash/hash<u8> (; 28 ;) (type $ii) (param $0 i32) (result i32)
+  (return
+   (call $~lib/internal/hash/hash8
+    (i32.and
+     (get_local $0)
+     (i32.const 255)
     )
-    (unreachable)
    )
   )
-  (block $break|2
-   (set_local $1
-    (i32.const 0)
-   )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (i32.lt_u
-       (get_local $1)
-       (i32.const 50)
-      )
+ )
+ (func $~lib/set/Set<u8>#find (; 29 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (get_local $0)
      )
-    )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<u8>#has
+     (i32.mul
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
         (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 24)
-        (i32.const 4)
        )
-       (unreachable)
-      )
-     )
-     (drop
-      (call $~lib/set/Set<u8>#delete
-       (get_local $0)
-       (get_local $1)
       )
+      (get_global $~lib/set/BUCKET_SIZE)
      )
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<u8>#has
-         (get_local $0)
-         (get_local $1)
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (get_local $3)
+     (block
+      (block
+       (if
+        (if (result i32)
+         (tee_local $4
+          (i32.eqz
+           (i32.and
+            (i32.load offset=4
+             (get_local $3)
+            )
+            (get_global $~lib/set/EMPTY)
+           )
+          )
+         )
+         (i32.eq
+          (i32.load8_u
+           (get_local $3)
+          )
+          (i32.and
+           (get_local $1)
+           (i32.const 255)
+          )
+         )
+         (get_local $4)
+        )
+        (return
+         (get_local $3)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 26)
-        (i32.const 4)
+       (set_local $3
+        (i32.and
+         (i32.load offset=4
+          (get_local $3)
+         )
+         (i32.xor
+          (get_global $~lib/set/EMPTY)
+          (i32.const -1)
+         )
+        )
        )
-       (unreachable)
       )
+      (br $continue|0)
      )
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
-     )
-    )
-    (br $repeat|2)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<u8>#get:size
-      (get_local $0)
-     )
-     (i32.const 50)
+  (i32.const 0)
+ )
+ (func $~lib/set/Set<u8>#has (; 30 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.ne
+   (call $~lib/set/Set<u8>#find
+    (get_local $0)
+    (get_local $1)
+    (call $~lib/internal/hash/hash<u8>
+     (get_local $1)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 28)
-     (i32.const 2)
-    )
-    (unreachable)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/set/Set<u8>#rehash (; 31 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (set_local $2
+   (i32.add
+    (get_local $1)
+    (i32.const 1)
    )
   )
-  (block $break|3
-   (set_local $1
+  (set_local $3
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $2)
+     (get_global $~lib/set/BUCKET_SIZE)
+    )
     (i32.const 0)
    )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (i32.lt_u
-       (get_local $1)
-       (i32.const 50)
-      )
+  )
+  (set_local $4
+   (i32.trunc_s/f64
+    (f64.mul
+     (f64.convert_s/i32
+      (get_local $2)
      )
+     (get_global $~lib/set/FILL_FACTOR)
     )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<u8>#has
-         (get_local $0)
-         (get_local $1)
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 32)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/set/Set<u8>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<u8>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 34)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (drop
-      (call $~lib/set/Set<u8>#delete
-       (get_local $0)
-       (get_local $1)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<u8>#has
-         (get_local $0)
-         (get_local $1)
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 36)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
+   )
+  )
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $4)
+     (block $~lib/set/ENTRY_SIZE<u8>|inlined.1 (result i32)
+      (i32.const 8)
      )
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
-     )
+    (i32.const 1)
+   )
+  )
+  (set_local $6
+   (i32.add
+    (i32.load offset=8
+     (get_local $0)
     )
-    (br $repeat|3)
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<u8>#get:size
+  (set_local $7
+   (i32.add
+    (get_local $6)
+    (i32.mul
+     (i32.load offset=16
       (get_local $0)
      )
-     (i32.const 50)
+     (block $~lib/set/ENTRY_SIZE<u8>|inlined.2 (result i32)
+      (i32.const 8)
+     )
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 38)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
   )
-  (call $~lib/set/Set<u8>#clear
-   (get_local $0)
+  (set_local $8
+   (i32.add
+    (get_local $5)
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<u8>#get:size
-      (get_local $0)
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.ne
+      (get_local $6)
+      (get_local $7)
+     )
+     (block
+      (block
+       (set_local $9
+        (get_local $6)
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=4
+           (get_local $9)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (block
+         (set_local $10
+          (get_local $8)
+         )
+         (i32.store8
+          (get_local $10)
+          (i32.load8_u
+           (get_local $9)
+          )
+         )
+         (set_local $11
+          (i32.and
+           (block $~lib/internal/hash/hash<u8>|inlined.0 (result i32)
+            (set_local $11
+             (i32.load8_u
+              (get_local $9)
+             )
+            )
+            (br $~lib/internal/hash/hash<u8>|inlined.0
+             (call $~lib/internal/hash/hash8
+              (get_local $11)
+             )
+            )
+           )
+           (get_local $1)
+          )
+         )
+         (set_local $12
+          (i32.add
+           (get_local $3)
+           (i32.mul
+            (get_local $11)
+            (get_global $~lib/set/BUCKET_SIZE)
+           )
+          )
+         )
+         (i32.store offset=4
+          (get_local $10)
+          (i32.load offset=8
+           (get_local $12)
+          )
+         )
+         (i32.store offset=8
+          (get_local $12)
+          (get_local $8)
+         )
+         (set_local $8
+          (i32.add
+           (get_local $8)
+           (block $~lib/set/ENTRY_SIZE<u8>|inlined.3 (result i32)
+            (i32.const 8)
+           )
+          )
+         )
+        )
+       )
+       (set_local $6
+        (i32.add
+         (get_local $6)
+         (block $~lib/set/ENTRY_SIZE<u8>|inlined.4 (result i32)
+          (i32.const 8)
+         )
+        )
+       )
+      )
+      (br $continue|0)
      )
-     (i32.const 0)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
     )
-    (unreachable)
    )
   )
- )
- (func $~lib/set/Set<i16>#clear (; 28 ;) (type $iv) (param $0 i32)
   (i32.store
    (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 16)
-    (i32.const 0)
-   )
+   (get_local $3)
   )
   (i32.store offset=4
    (get_local $0)
-   (i32.sub
-    (get_global $~lib/set/INITIAL_CAPACITY)
-    (i32.const 1)
-   )
+   (get_local $1)
   )
   (i32.store offset=8
    (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 32)
-    (i32.const 1)
-   )
+   (get_local $5)
   )
   (i32.store offset=12
    (get_local $0)
-   (get_global $~lib/set/INITIAL_CAPACITY)
+   (get_local $4)
   )
   (i32.store offset=16
    (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.const 0)
+   (i32.load offset=20
+    (get_local $0)
+   )
   )
  )
- (func $~lib/set/Set<i16>#constructor (; 29 ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (call $~lib/set/Set<i16>#clear
-   (tee_local $0
-    (if (result i32)
-     (get_local $0)
-     (get_local $0)
-     (tee_local $0
-      (block (result i32)
-       (set_local $1
-        (call $~lib/memory/memory.allocate
-         (i32.const 24)
+ (func $~lib/set/Set<u8>#add (; 32 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (call $~lib/internal/hash/hash<u8>
+    (get_local $1)
+   )
+  )
+  (set_local $3
+   (call $~lib/set/Set<u8>#find
+    (get_local $0)
+    (get_local $1)
+    (get_local $2)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $3)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
+      )
+     )
+     (call $~lib/set/Set<u8>#rehash
+      (get_local $0)
+      (if (result i32)
+       (i32.lt_s
+        (i32.load offset=20
+         (get_local $0)
+        )
+        (i32.trunc_s/f64
+         (f64.mul
+          (f64.convert_s/i32
+           (i32.load offset=12
+            (get_local $0)
+           )
+          )
+          (get_global $~lib/set/FREE_FACTOR)
+         )
         )
        )
-       (i32.store
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=4
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=8
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=12
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=16
-        (get_local $1)
-        (i32.const 0)
+       (i32.load offset=4
+        (get_local $0)
        )
-       (i32.store offset=20
-        (get_local $1)
-        (i32.const 0)
+       (i32.or
+        (i32.shl
+         (i32.load offset=4
+          (get_local $0)
+         )
+         (i32.const 1)
+        )
+        (i32.const 1)
        )
-       (get_local $1)
       )
      )
     )
-   )
-  )
-  (get_local $0)
- )
- (func $~lib/internal/hash/hash16 (; 30 ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (set_local $1
-   (get_global $~lib/internal/hash/FNV_OFFSET)
-  )
-  (set_local $1
-   (i32.mul
-    (i32.xor
-     (get_local $1)
-     (i32.and
-      (get_local $0)
-      (i32.const 255)
-     )
-    )
-    (get_global $~lib/internal/hash/FNV_PRIME)
-   )
-  )
-  (set_local $1
-   (i32.mul
-    (i32.xor
-     (get_local $1)
-     (i32.shr_u
+    (set_local $4
+     (i32.load offset=8
       (get_local $0)
-      (i32.const 8)
      )
     )
-    (get_global $~lib/internal/hash/FNV_PRIME)
-   )
-  )
-  (get_local $1)
- )
- (func $~lib/internal/hash/hash<i16> (; 31 ;) (type $ii) (param $0 i32) (result i32)
-  (return
-   (call $~lib/internal/hash/hash16
-    (i32.shr_s
-     (i32.shl
-      (get_local $0)
-      (i32.const 16)
-     )
-     (i32.const 16)
-    )
-   )
-  )
- )
- (func $~lib/set/Set<i16>#find (; 32 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
-  (local $3 i32)
-  (local $4 i32)
-  (set_local $3
-   (i32.load offset=8
-    (i32.add
-     (i32.load
-      (get_local $0)
-     )
-     (i32.mul
-      (i32.and
-       (get_local $2)
-       (i32.load offset=4
-        (get_local $0)
-       )
+    (set_local $3
+     (i32.add
+      (i32.add
+       (get_local $4)
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
       )
-      (get_global $~lib/set/BUCKET_SIZE)
-     )
-    )
-   )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (get_local $3)
-     (block
-      (block
-       (if
-        (if (result i32)
-         (tee_local $4
-          (i32.eqz
-           (i32.and
-            (i32.load offset=4
-             (get_local $3)
-            )
-            (get_global $~lib/set/EMPTY)
-           )
-          )
-         )
-         (i32.eq
-          (i32.load16_s
-           (get_local $3)
-          )
-          (i32.shr_s
-           (i32.shl
-            (get_local $1)
-            (i32.const 16)
-           )
-           (i32.const 16)
-          )
+      (i32.mul
+       (block (result i32)
+        (set_local $5
+         (i32.load offset=16
+          (get_local $0)
          )
-         (get_local $4)
         )
-        (return
-         (get_local $3)
+        (i32.store offset=16
+         (get_local $0)
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
         )
+        (get_local $5)
        )
-       (set_local $3
-        (i32.and
-         (i32.load offset=4
-          (get_local $3)
-         )
-         (i32.xor
-          (get_global $~lib/set/EMPTY)
-          (i32.const -1)
-         )
+       (block $~lib/set/ENTRY_SIZE<u8>|inlined.5 (result i32)
+        (i32.const 8)
+       )
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (get_local $1)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $5
+     (i32.add
+      (i32.load
+       (get_local $0)
+      )
+      (i32.mul
+       (i32.and
+        (get_local $2)
+        (i32.load offset=4
+         (get_local $0)
         )
        )
+       (get_global $~lib/set/BUCKET_SIZE)
       )
-      (br $continue|0)
      )
     )
+    (i32.store offset=4
+     (get_local $3)
+     (i32.load offset=8
+      (get_local $5)
+     )
+    )
+    (i32.store offset=8
+     (get_local $5)
+     (get_local $3)
+    )
    )
   )
-  (i32.const 0)
  )
- (func $~lib/set/Set<i16>#has (; 33 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.ne
-   (call $~lib/set/Set<i16>#find
-    (get_local $0)
-    (get_local $1)
-    (call $~lib/internal/hash/hash<i16>
-     (get_local $1)
-    )
-   )
-   (i32.const 0)
+ (func $~lib/set/Set<u8>#get:size (; 33 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=20
+   (get_local $0)
   )
  )
- (func $~lib/set/Set<i16>#rehash (; 34 ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/set/Set<u8>#delete (; 34 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (local $9 i32)
-  (local $10 i32)
-  (local $11 i32)
-  (local $12 i32)
   (set_local $2
-   (i32.add
+   (call $~lib/set/Set<u8>#find
+    (get_local $0)
     (get_local $1)
-    (i32.const 1)
+    (block $~lib/internal/hash/hash<u8>|inlined.1 (result i32)
+     (br $~lib/internal/hash/hash<u8>|inlined.1
+      (call $~lib/internal/hash/hash8
+       (i32.and
+        (get_local $1)
+        (i32.const 255)
+       )
+      )
+     )
+    )
    )
   )
-  (set_local $3
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $2)
-     (get_global $~lib/set/BUCKET_SIZE)
-    )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return
     (i32.const 0)
    )
   )
-  (set_local $4
-   (i32.trunc_s/f64
-    (f64.mul
-     (f64.convert_s/i32
-      (get_local $2)
-     )
-     (get_global $~lib/set/FILL_FACTOR)
+  (i32.store offset=4
+   (get_local $2)
+   (i32.or
+    (i32.load offset=4
+     (get_local $2)
     )
+    (get_global $~lib/set/EMPTY)
    )
   )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $4)
-     (block $~lib/set/ENTRY_SIZE<i16>|inlined.1 (result i32)
-      (i32.const 8)
-     )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $0)
     )
     (i32.const 1)
    )
   )
-  (set_local $6
-   (i32.add
-    (i32.load offset=8
+  (set_local $3
+   (i32.shr_u
+    (i32.load offset=4
      (get_local $0)
     )
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+    (i32.const 1)
    )
   )
-  (set_local $7
-   (i32.add
-    (get_local $6)
-    (i32.mul
-     (i32.load offset=16
+  (if
+   (if (result i32)
+    (tee_local $4
+     (i32.ge_u
+      (i32.add
+       (get_local $3)
+       (i32.const 1)
+      )
+      (select
+       (tee_local $4
+        (get_global $~lib/set/INITIAL_CAPACITY)
+       )
+       (tee_local $5
+        (i32.load offset=20
+         (get_local $0)
+        )
+       )
+       (i32.gt_u
+        (get_local $4)
+        (get_local $5)
+       )
+      )
+     )
+    )
+    (i32.lt_s
+     (i32.load offset=20
       (get_local $0)
      )
-     (block $~lib/set/ENTRY_SIZE<i16>|inlined.2 (result i32)
-      (i32.const 8)
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $0)
+        )
+       )
+       (get_global $~lib/set/FREE_FACTOR)
+      )
      )
     )
+    (get_local $4)
    )
-  )
-  (set_local $8
-   (i32.add
-    (get_local $5)
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   (call $~lib/set/Set<u8>#rehash
+    (get_local $0)
+    (get_local $3)
    )
   )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (i32.ne
-      (get_local $6)
-      (get_local $7)
-     )
-     (block
-      (block
-       (set_local $9
-        (get_local $6)
-       )
-       (if
-        (i32.eqz
-         (i32.and
-          (i32.load offset=4
-           (get_local $9)
-          )
-          (get_global $~lib/set/EMPTY)
-         )
-        )
-        (block
-         (set_local $10
-          (get_local $8)
-         )
-         (i32.store16
-          (get_local $10)
-          (i32.load16_s
-           (get_local $9)
-          )
-         )
-         (set_local $11
-          (i32.and
-           (block $~lib/internal/hash/hash<i16>|inlined.0 (result i32)
-            (set_local $11
-             (i32.load16_s
-              (get_local $9)
-             )
-            )
-            (br $~lib/internal/hash/hash<i16>|inlined.0
-             (call $~lib/internal/hash/hash16
-              (get_local $11)
-             )
-            )
-           )
-           (get_local $1)
-          )
-         )
-         (set_local $12
-          (i32.add
-           (get_local $3)
-           (i32.mul
-            (get_local $11)
-            (get_global $~lib/set/BUCKET_SIZE)
-           )
-          )
-         )
-         (i32.store offset=4
-          (get_local $10)
-          (i32.load offset=8
-           (get_local $12)
-          )
-         )
-         (i32.store offset=8
-          (get_local $12)
-          (get_local $8)
-         )
-         (set_local $8
-          (i32.add
-           (get_local $8)
-           (block $~lib/set/ENTRY_SIZE<i16>|inlined.3 (result i32)
-            (i32.const 8)
-           )
+  (i32.const 1)
+ )
+ (func $~lib/set/Set<u8>#values (; 35 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
           )
-         )
-        )
-       )
-       (set_local $6
-        (i32.add
-         (get_local $6)
-         (block $~lib/set/ENTRY_SIZE<i16>|inlined.4 (result i32)
           (i32.const 8)
          )
         )
+        (i32.const 4)
        )
+       (i32.const 20)
       )
-      (br $continue|0)
+      (get_local $2)
      )
     )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
    )
   )
   (i32.store
-   (get_local $0)
    (get_local $3)
-  )
-  (i32.store offset=4
    (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $4)
   )
-  (i32.store offset=16
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<u8>#__iterator (; 36 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<u8>#keys (; 37 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<u8>#values
    (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
-   )
   )
  )
- (func $~lib/set/Set<i16>#add (; 35 ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/set/Set<u8>#entries (; 38 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
   (local $2 i32)
   (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (set_local $2
-   (call $~lib/internal/hash/hash<i16>
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 25)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
     (get_local $1)
    )
   )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<KeyValue<u8,u8>>#__iterator (; 39 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<u8>#__iterator (; 40 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<u8>#values
+   (get_local $0)
+  )
+ )
+ (func $std/set/test<u8>~anonymous|1 (; 41 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
   (set_local $3
-   (call $~lib/set/Set<i16>#find
-    (get_local $0)
-    (get_local $1)
-    (get_local $2)
+   (i32.load offset=4
+    (get_global $~env)
    )
   )
-  (if
-   (i32.eqz
-    (get_local $3)
-   )
-   (block
-    (if
+  (block
+   (if
+    (i32.eqz
      (i32.eq
-      (i32.load offset=16
+      (i32.and
        (get_local $0)
+       (i32.const 255)
       )
-      (i32.load offset=12
-       (get_local $0)
+      (i32.and
+       (get_local $1)
+       (i32.const 255)
       )
      )
-     (call $~lib/set/Set<i16>#rehash
-      (get_local $0)
-      (if (result i32)
-       (i32.lt_s
-        (i32.load offset=20
-         (get_local $0)
-        )
-        (i32.trunc_s/f64
-         (f64.mul
-          (f64.convert_s/i32
-           (i32.load offset=12
-            (get_local $0)
-           )
-          )
-          (get_global $~lib/set/FREE_FACTOR)
-         )
-        )
-       )
-       (i32.load offset=4
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 64)
+      (i32.const 4)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $3)
+    (i32.add
+     (i32.load offset=4
+      (get_local $3)
+     )
+     (i32.const 1)
+    )
+   )
+  )
+ )
+ (func $~lib/set/Set<u8>#forEach (; 42 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $2)
+       (i32.load offset=16
         (get_local $0)
        )
-       (i32.or
-        (i32.shl
-         (i32.load offset=4
-          (get_local $0)
-         )
-         (i32.const 1)
-        )
-        (i32.const 1)
-       )
       )
      )
     )
-    (set_local $4
-     (i32.load offset=8
-      (get_local $0)
-     )
-    )
-    (set_local $3
-     (i32.add
+    (block
+     (set_local $3
       (i32.add
-       (get_local $4)
-       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
-      )
-      (i32.mul
-       (block (result i32)
-        (set_local $5
-         (i32.load offset=16
-          (get_local $0)
-         )
+       (i32.add
+        (i32.load offset=8
+         (get_local $0)
         )
-        (i32.store offset=16
-         (get_local $0)
-         (i32.add
-          (get_local $5)
-          (i32.const 1)
-         )
-        )
-        (get_local $5)
+        (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
        )
-       (block $~lib/set/ENTRY_SIZE<i16>|inlined.5 (result i32)
-        (i32.const 8)
+       (i32.mul
+        (get_local $2)
+        (block $~lib/set/ENTRY_SIZE<u8>|inlined.6 (result i32)
+         (i32.const 8)
+        )
        )
       )
      )
-    )
-    (i32.store16
-     (get_local $3)
-     (get_local $1)
-    )
-    (i32.store offset=20
-     (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
-      )
-      (i32.const 1)
-     )
-    )
-    (set_local $5
-     (i32.add
-      (i32.load
-       (get_local $0)
-      )
-      (i32.mul
+     (if
+      (i32.eqz
        (i32.and
-        (get_local $2)
         (i32.load offset=4
-         (get_local $0)
+         (get_local $3)
+        )
+        (get_global $~lib/set/EMPTY)
+       )
+      )
+      (block
+       (set_global $~argc
+        (i32.const 3)
+       )
+       (call_indirect (type $iiiv)
+        (i32.load8_u
+         (get_local $3)
+        )
+        (i32.load8_u
+         (get_local $3)
+        )
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (get_local $1)
+         )
+         (i32.load
+          (get_global $~env)
+         )
         )
        )
-       (get_global $~lib/set/BUCKET_SIZE)
       )
      )
     )
-    (i32.store offset=4
-     (get_local $3)
-     (i32.load offset=8
-      (get_local $5)
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
      )
     )
-    (i32.store offset=8
-     (get_local $5)
-     (get_local $3)
-    )
+    (br $repeat|0)
    )
   )
  )
- (func $~lib/set/Set<i16>#get:size (; 36 ;) (type $ii) (param $0 i32) (result i32)
-  (i32.load offset=20
-   (get_local $0)
-  )
- )
- (func $~lib/set/Set<i16>#delete (; 37 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $std/set/test<u8> (; 43 ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
   (set_local $2
-   (call $~lib/set/Set<i16>#find
-    (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<i16>|inlined.1 (result i32)
-     (br $~lib/internal/hash/hash<i16>|inlined.1
-      (call $~lib/internal/hash/hash16
-       (i32.shr_s
-        (i32.shl
-         (get_local $1)
-         (i32.const 16)
-        )
-        (i32.const 16)
-       )
-      )
-     )
-    )
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
    )
   )
-  (if
-   (i32.eqz
-    (get_local $2)
-   )
-   (return
-    (i32.const 0)
-   )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
   )
   (i32.store offset=4
    (get_local $2)
-   (i32.or
-    (i32.load offset=4
-     (get_local $2)
-    )
-    (get_global $~lib/set/EMPTY)
-   )
+   (i32.const 0)
   )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.sub
-    (i32.load offset=20
-     (get_local $0)
+  (block
+   (set_local $0
+    (call $~lib/set/Set<u8>#constructor
+     (i32.const 0)
     )
-    (i32.const 1)
    )
-  )
-  (set_local $3
-   (i32.shr_u
-    (i32.load offset=4
-     (get_local $0)
+   (block $break|0
+    (set_local $1
+     (i32.const 0)
     )
-    (i32.const 1)
-   )
-  )
-  (if
-   (if (result i32)
-    (tee_local $4
-     (i32.ge_u
-      (i32.add
-       (get_local $3)
-       (i32.const 1)
-      )
-      (select
-       (tee_local $4
-        (get_global $~lib/set/INITIAL_CAPACITY)
+    (loop $repeat|0
+     (br_if $break|0
+      (i32.eqz
+       (i32.lt_u
+        (get_local $1)
+        (i32.const 100)
        )
-       (tee_local $5
-        (i32.load offset=20
-         (get_local $0)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<u8>#has
+          (get_local $0)
+          (get_local $1)
+         )
         )
        )
-       (i32.gt_u
-        (get_local $4)
-        (get_local $5)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 8)
+         (i32.const 4)
+        )
+        (unreachable)
        )
       )
-     )
-    )
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $0)
-     )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
+      (call $~lib/set/Set<u8>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u8>#has
          (get_local $0)
+         (get_local $1)
         )
        )
-       (get_global $~lib/set/FREE_FACTOR)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 10)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
       )
      )
+     (br $repeat|0)
     )
-    (get_local $4)
-   )
-   (call $~lib/set/Set<i16>#rehash
-    (get_local $0)
-    (get_local $3)
-   )
-  )
-  (i32.const 1)
- )
- (func $std/set/test<i16> (; 38 ;) (type $v)
-  (local $0 i32)
-  (local $1 i32)
-  (set_local $0
-   (call $~lib/set/Set<i16>#constructor
-    (i32.const 0)
-   )
-  )
-  (block $break|0
-   (set_local $1
-    (i32.const 0)
    )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 100)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<u8>#get:size
+       (get_local $0)
       )
+      (i32.const 100)
      )
     )
     (block
-     (if
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 12)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|1
+    (set_local $1
+     (i32.const 50)
+    )
+    (loop $repeat|1
+     (br_if $break|1
       (i32.eqz
+       (i32.lt_u
+        (get_local $1)
+        (i32.const 100)
+       )
+      )
+     )
+     (block
+      (if
        (i32.eqz
-        (call $~lib/set/Set<i16>#has
+        (call $~lib/set/Set<u8>#has
          (get_local $0)
          (get_local $1)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 8)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 16)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
-     )
-     (call $~lib/set/Set<i16>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<i16>#has
-        (get_local $0)
-        (get_local $1)
-       )
+      (call $~lib/set/Set<u8>#add
+       (get_local $0)
+       (get_local $1)
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 10)
-        (i32.const 4)
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u8>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 18)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-    )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
+     (br $repeat|1)
     )
-    (br $repeat|0)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<i16>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<u8>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
      )
-     (i32.const 100)
     )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 12)
-     (i32.const 2)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 20)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (unreachable)
-   )
-  )
-  (block $break|1
-   (set_local $1
-    (i32.const 50)
    )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 100)
-      )
-     )
+   (block $break|2
+    (set_local $1
+     (i32.const 0)
     )
-    (block
-     (if
+    (loop $repeat|2
+     (br_if $break|2
       (i32.eqz
-       (call $~lib/set/Set<i16>#has
-        (get_local $0)
+       (i32.lt_u
         (get_local $1)
+        (i32.const 50)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 16)
-        (i32.const 4)
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u8>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 24)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
-     )
-     (call $~lib/set/Set<i16>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<i16>#has
+      (drop
+       (call $~lib/set/Set<u8>#delete
         (get_local $0)
         (get_local $1)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 18)
-        (i32.const 4)
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<u8>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 26)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-    )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
+     (br $repeat|2)
     )
-    (br $repeat|1)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<i16>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<u8>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
      )
-     (i32.const 100)
     )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 20)
-     (i32.const 2)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 28)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (unreachable)
    )
-  )
-  (block $break|2
-   (set_local $1
-    (i32.const 0)
-   )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 50)
-      )
-     )
+   (block $break|3
+    (set_local $1
+     (i32.const 0)
     )
-    (block
-     (if
+    (loop $repeat|3
+     (br_if $break|3
       (i32.eqz
-       (call $~lib/set/Set<i16>#has
-        (get_local $0)
+       (i32.lt_u
         (get_local $1)
+        (i32.const 50)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 24)
-        (i32.const 4)
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<u8>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 32)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
-     )
-     (drop
-      (call $~lib/set/Set<i16>#delete
+      (call $~lib/set/Set<u8>#add
        (get_local $0)
        (get_local $1)
       )
-     )
-     (if
-      (i32.eqz
+      (if
        (i32.eqz
-        (call $~lib/set/Set<i16>#has
+        (call $~lib/set/Set<u8>#has
          (get_local $0)
          (get_local $1)
         )
        )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 34)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 26)
-        (i32.const 4)
+      (drop
+       (call $~lib/set/Set<u8>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<u8>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 36)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-    )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
+     (br $repeat|3)
     )
-    (br $repeat|2)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<i16>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<u8>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
      )
-     (i32.const 50)
     )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 28)
-     (i32.const 2)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 38)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (unreachable)
    )
-  )
-  (block $break|3
-   (set_local $1
+   (i32.store offset=4
+    (get_local $2)
     (i32.const 0)
    )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 50)
+   (block $break|4
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<u8>#__iterator
+      (call $~lib/set/Set<u8>#values
+       (get_local $0)
       )
      )
     )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<i16>#has
-         (get_local $0)
-         (get_local $1)
-        )
-       )
+    (loop $repeat|4
+     (br_if $break|4
+      (call $~lib/iterator/Iterator<u8>#get:done|virtual
+       (get_local $1)
       )
+     )
+     (block
       (block
-       (call $~lib/env/abort
+       (set_local $5
+        (call $~lib/memory/memory.allocate
+         (i32.const 5)
+        )
+       )
+       (i32.store
+        (get_local $5)
+        (get_local $2)
+       )
+       (i32.store8 offset=4
+        (get_local $5)
         (i32.const 0)
-        (i32.const 120)
-        (i32.const 32)
-        (i32.const 4)
        )
-       (unreachable)
       )
-     )
-     (call $~lib/set/Set<i16>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<i16>#has
-        (get_local $0)
+      (i32.store8 offset=4
+       (get_local $5)
+       (call $~lib/iterator/Iterator<u8>#next|virtual
         (get_local $1)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 34)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
      )
-     (drop
-      (call $~lib/set/Set<i16>#delete
-       (get_local $0)
-       (get_local $1)
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $6
+          (i32.ge_u
+           (i32.load8_u offset=4
+            (get_local $5)
+           )
+           (i32.const 50)
+          )
+         )
+         (i32.lt_u
+          (i32.load8_u offset=4
+           (get_local $5)
+          )
+          (i32.const 100)
+         )
+         (get_local $6)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 43)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
-     )
-     (if
-      (i32.eqz
+      (if
        (i32.eqz
-        (call $~lib/set/Set<i16>#has
+        (call $~lib/set/Set<u8>#has
          (get_local $0)
-         (get_local $1)
+         (i32.load8_u offset=4
+          (get_local $5)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 44)
+         (i32.const 4)
         )
+        (unreachable)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 36)
-        (i32.const 4)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
-       (unreachable)
       )
      )
+     (br $repeat|4)
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
-     )
-    )
-    (br $repeat|3)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<i16>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
      )
-     (i32.const 50)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 47)
+      (i32.const 2)
+     )
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 38)
-     (i32.const 2)
+   (block $break|5
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<u8>#__iterator
+      (call $~lib/set/Set<u8>#keys
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|5
+     (br_if $break|5
+      (call $~lib/iterator/Iterator<u8>#get:done|virtual
+       (get_local $1)
+      )
+     )
+     (block
+      (block
+       (set_local $8
+        (call $~lib/memory/memory.allocate
+         (i32.const 5)
+        )
+       )
+       (i32.store
+        (get_local $8)
+        (get_local $2)
+       )
+       (i32.store8 offset=4
+        (get_local $8)
+        (i32.const 0)
+       )
+      )
+      (i32.store8 offset=4
+       (get_local $8)
+       (call $~lib/iterator/Iterator<u8>#next|virtual
+        (get_local $1)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u8>#has
+         (get_local $0)
+         (i32.load8_u offset=4
+          (get_local $8)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 49)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|5)
     )
-    (unreachable)
    )
-  )
-  (call $~lib/set/Set<i16>#clear
-   (get_local $0)
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<i16>#get:size
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 52)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|6
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<KeyValue<u8,u8>>#__iterator
+      (call $~lib/set/Set<u8>#entries
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|6
+     (br_if $break|6
+      (call $~lib/iterator/Iterator<KeyValue<u8,u8>>#get:done|virtual
+       (get_local $1)
+      )
+     )
+     (set_local $6
+      (call $~lib/iterator/Iterator<KeyValue<u8,u8>>#next|virtual
+       (get_local $1)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load8_u
+          (get_local $6)
+         )
+         (i32.load8_u offset=1
+          (get_local $6)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 54)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|6)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 57)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|7
+    (set_local $6
+     (call $~lib/set/Set<u8>#__iterator
       (get_local $0)
      )
-     (i32.const 0)
+    )
+    (loop $repeat|7
+     (br_if $break|7
+      (call $~lib/iterator/Iterator<u8>#get:done|virtual
+       (get_local $6)
+      )
+     )
+     (block
+      (block
+       (set_local $10
+        (call $~lib/memory/memory.allocate
+         (i32.const 5)
+        )
+       )
+       (i32.store
+        (get_local $10)
+        (get_local $2)
+       )
+       (i32.store8 offset=4
+        (get_local $10)
+        (i32.const 0)
+       )
+      )
+      (i32.store8 offset=4
+       (get_local $10)
+       (call $~lib/iterator/Iterator<u8>#next|virtual
+        (get_local $6)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u8>#has
+         (get_local $0)
+         (i32.load8_u offset=4
+          (get_local $10)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 59)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|7)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 62)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/set/Set<u8>#forEach
+    (get_local $0)
+    (block (result i32)
+     (set_local $6
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (i32.store
+      (get_local $6)
+      (i32.const 1)
+     )
+     (i32.store offset=4
+      (get_local $6)
+      (get_local $2)
+     )
+     (get_local $6)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 67)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/set/Set<u8>#clear
+    (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<u8>#get:size
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 71)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (unreachable)
    )
   )
  )
- (func $~lib/set/Set<u16>#clear (; 39 ;) (type $iv) (param $0 i32)
+ (func $~lib/set/Set<i16>#clear (; 44 ;) (type $iv) (param $0 i32)
   (i32.store
    (get_local $0)
    (call $~lib/arraybuffer/ArrayBuffer#constructor
@@ -3726,9 +4014,9 @@
    (i32.const 0)
   )
  )
- (func $~lib/set/Set<u16>#constructor (; 40 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/set/Set<i16>#constructor (; 45 ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
-  (call $~lib/set/Set<u16>#clear
+  (call $~lib/set/Set<i16>#clear
    (tee_local $0
     (if (result i32)
      (get_local $0)
@@ -3772,17 +4060,51 @@
   )
   (get_local $0)
  )
- (func $~lib/internal/hash/hash<u16> (; 41 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/internal/hash/hash16 (; 46 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (get_global $~lib/internal/hash/FNV_OFFSET)
+  )
+  (set_local $1
+   (i32.mul
+    (i32.xor
+     (get_local $1)
+     (i32.and
+      (get_local $0)
+      (i32.const 255)
+     )
+    )
+    (get_global $~lib/internal/hash/FNV_PRIME)
+   )
+  )
+  (set_local $1
+   (i32.mul
+    (i32.xor
+     (get_local $1)
+     (i32.shr_u
+      (get_local $0)
+      (i32.const 8)
+     )
+    )
+    (get_global $~lib/internal/hash/FNV_PRIME)
+   )
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/hash/hash<i16> (; 47 ;) (type $ii) (param $0 i32) (result i32)
   (return
    (call $~lib/internal/hash/hash16
-    (i32.and
-     (get_local $0)
-     (i32.const 65535)
+    (i32.shr_s
+     (i32.shl
+      (get_local $0)
+      (i32.const 16)
+     )
+     (i32.const 16)
     )
    )
   )
  )
- (func $~lib/set/Set<u16>#find (; 42 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+ (func $~lib/set/Set<i16>#find (; 48 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
   (local $3 i32)
   (local $4 i32)
   (set_local $3
@@ -3822,12 +4144,15 @@
           )
          )
          (i32.eq
-          (i32.load16_u
+          (i32.load16_s
            (get_local $3)
           )
-          (i32.and
-           (get_local $1)
-           (i32.const 65535)
+          (i32.shr_s
+           (i32.shl
+            (get_local $1)
+            (i32.const 16)
+           )
+           (i32.const 16)
           )
          )
          (get_local $4)
@@ -3855,19 +4180,19 @@
   )
   (i32.const 0)
  )
- (func $~lib/set/Set<u16>#has (; 43 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/set/Set<i16>#has (; 49 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (i32.ne
-   (call $~lib/set/Set<u16>#find
+   (call $~lib/set/Set<i16>#find
     (get_local $0)
     (get_local $1)
-    (call $~lib/internal/hash/hash<u16>
+    (call $~lib/internal/hash/hash<i16>
      (get_local $1)
     )
    )
    (i32.const 0)
   )
  )
- (func $~lib/set/Set<u16>#rehash (; 44 ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/set/Set<i16>#rehash (; 50 ;) (type $iiv) (param $0 i32) (param $1 i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
@@ -3910,7 +4235,7 @@
     (i32.const 0)
     (i32.mul
      (get_local $4)
-     (block $~lib/set/ENTRY_SIZE<u16>|inlined.1 (result i32)
+     (block $~lib/set/ENTRY_SIZE<i16>|inlined.1 (result i32)
       (i32.const 8)
      )
     )
@@ -3932,7 +4257,7 @@
      (i32.load offset=16
       (get_local $0)
      )
-     (block $~lib/set/ENTRY_SIZE<u16>|inlined.2 (result i32)
+     (block $~lib/set/ENTRY_SIZE<i16>|inlined.2 (result i32)
       (i32.const 8)
      )
     )
@@ -3971,19 +4296,19 @@
          )
          (i32.store16
           (get_local $10)
-          (i32.load16_u
+          (i32.load16_s
            (get_local $9)
           )
          )
          (set_local $11
           (i32.and
-           (block $~lib/internal/hash/hash<u16>|inlined.0 (result i32)
+           (block $~lib/internal/hash/hash<i16>|inlined.0 (result i32)
             (set_local $11
-             (i32.load16_u
+             (i32.load16_s
               (get_local $9)
              )
             )
-            (br $~lib/internal/hash/hash<u16>|inlined.0
+            (br $~lib/internal/hash/hash<i16>|inlined.0
              (call $~lib/internal/hash/hash16
               (get_local $11)
              )
@@ -4014,7 +4339,7 @@
          (set_local $8
           (i32.add
            (get_local $8)
-           (block $~lib/set/ENTRY_SIZE<u16>|inlined.3 (result i32)
+           (block $~lib/set/ENTRY_SIZE<i16>|inlined.3 (result i32)
             (i32.const 8)
            )
           )
@@ -4024,7 +4349,7 @@
        (set_local $6
         (i32.add
          (get_local $6)
-         (block $~lib/set/ENTRY_SIZE<u16>|inlined.4 (result i32)
+         (block $~lib/set/ENTRY_SIZE<i16>|inlined.4 (result i32)
           (i32.const 8)
          )
         )
@@ -4058,18 +4383,18 @@
    )
   )
  )
- (func $~lib/set/Set<u16>#add (; 45 ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/set/Set<i16>#add (; 51 ;) (type $iiv) (param $0 i32) (param $1 i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
   (set_local $2
-   (call $~lib/internal/hash/hash<u16>
+   (call $~lib/internal/hash/hash<i16>
     (get_local $1)
    )
   )
   (set_local $3
-   (call $~lib/set/Set<u16>#find
+   (call $~lib/set/Set<i16>#find
     (get_local $0)
     (get_local $1)
     (get_local $2)
@@ -4089,7 +4414,7 @@
        (get_local $0)
       )
      )
-     (call $~lib/set/Set<u16>#rehash
+     (call $~lib/set/Set<i16>#rehash
       (get_local $0)
       (if (result i32)
        (i32.lt_s
@@ -4149,7 +4474,7 @@
         )
         (get_local $5)
        )
-       (block $~lib/set/ENTRY_SIZE<u16>|inlined.5 (result i32)
+       (block $~lib/set/ENTRY_SIZE<i16>|inlined.5 (result i32)
         (i32.const 8)
        )
       )
@@ -4197,26 +4522,29 @@
    )
   )
  )
- (func $~lib/set/Set<u16>#get:size (; 46 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/set/Set<i16>#get:size (; 52 ;) (type $ii) (param $0 i32) (result i32)
   (i32.load offset=20
    (get_local $0)
   )
  )
- (func $~lib/set/Set<u16>#delete (; 47 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/set/Set<i16>#delete (; 53 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
   (set_local $2
-   (call $~lib/set/Set<u16>#find
+   (call $~lib/set/Set<i16>#find
     (get_local $0)
     (get_local $1)
-    (block $~lib/internal/hash/hash<u16>|inlined.1 (result i32)
-     (br $~lib/internal/hash/hash<u16>|inlined.1
+    (block $~lib/internal/hash/hash<i16>|inlined.1 (result i32)
+     (br $~lib/internal/hash/hash<i16>|inlined.1
       (call $~lib/internal/hash/hash16
-       (i32.and
-        (get_local $1)
-        (i32.const 65535)
+       (i32.shr_s
+        (i32.shl
+         (get_local $1)
+         (i32.const 16)
+        )
+        (i32.const 16)
        )
       )
      )
@@ -4298,1630 +4626,1900 @@
     )
     (get_local $4)
    )
-   (call $~lib/set/Set<u16>#rehash
+   (call $~lib/set/Set<i16>#rehash
     (get_local $0)
     (get_local $3)
    )
   )
   (i32.const 1)
  )
- (func $std/set/test<u16> (; 48 ;) (type $v)
-  (local $0 i32)
+ (func $~lib/set/Set<i16>#values (; 54 ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
-  (set_local $0
-   (call $~lib/set/Set<u16>#constructor
-    (i32.const 0)
-   )
-  )
-  (block $break|0
-   (set_local $1
-    (i32.const 0)
-   )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (i32.lt_u
-       (get_local $1)
-       (i32.const 100)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<u16>#has
-         (get_local $0)
-         (get_local $1)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
         )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 8)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/set/Set<u16>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<u16>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 10)
         (i32.const 4)
        )
-       (unreachable)
+       (i32.const 31)
       )
+      (get_local $2)
      )
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
-     )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
     )
-    (br $repeat|0)
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<u16>#get:size
-      (get_local $0)
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<i16>#__iterator (; 55 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<i16>#keys (; 56 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<i16>#values
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<i16>#entries (; 57 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 36)
+      )
+      (get_local $2)
      )
-     (i32.const 100)
     )
-   )
-   (block
-    (call $~lib/env/abort
+    (i32.store
+     (get_local $1)
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 12)
-     (i32.const 2)
     )
-    (unreachable)
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
    )
   )
-  (block $break|1
-   (set_local $1
-    (i32.const 50)
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<KeyValue<i16,i16>>#__iterator (; 58 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<i16>#__iterator (; 59 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<i16>#values
+   (get_local $0)
+  )
+ )
+ (func $std/set/test<i16>~anonymous|2 (; 60 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
    )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.eqz
-      (i32.lt_u
-       (get_local $1)
-       (i32.const 100)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<u16>#has
+  )
+  (block
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.shr_s
+       (i32.shl
         (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
         (i32.const 16)
-        (i32.const 4)
        )
-       (unreachable)
+       (i32.const 16)
       )
-     )
-     (call $~lib/set/Set<u16>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<u16>#has
-        (get_local $0)
+      (i32.shr_s
+       (i32.shl
         (get_local $1)
+        (i32.const 16)
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 18)
-        (i32.const 4)
-       )
-       (unreachable)
+       (i32.const 16)
       )
      )
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 64)
+      (i32.const 4)
      )
+     (unreachable)
     )
-    (br $repeat|1)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<u16>#get:size
-      (get_local $0)
+   (i32.store offset=4
+    (get_local $3)
+    (i32.add
+     (i32.load offset=4
+      (get_local $3)
      )
-     (i32.const 100)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 20)
-     (i32.const 2)
+     (i32.const 1)
     )
-    (unreachable)
    )
   )
-  (block $break|2
-   (set_local $1
+ )
+ (func $~lib/set/Set<i16>#forEach (; 61 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (set_local $2
     (i32.const 0)
    )
-   (loop $repeat|2
-    (br_if $break|2
+   (loop $repeat|0
+    (br_if $break|0
      (i32.eqz
-      (i32.lt_u
-       (get_local $1)
-       (i32.const 50)
+      (i32.lt_s
+       (get_local $2)
+       (i32.load offset=16
+        (get_local $0)
+       )
       )
      )
     )
     (block
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<u16>#has
-        (get_local $0)
-        (get_local $1)
+     (set_local $3
+      (i32.add
+       (i32.add
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 24)
-        (i32.const 4)
+       (i32.mul
+        (get_local $2)
+        (block $~lib/set/ENTRY_SIZE<i16>|inlined.6 (result i32)
+         (i32.const 8)
+        )
        )
-       (unreachable)
-      )
-     )
-     (drop
-      (call $~lib/set/Set<u16>#delete
-       (get_local $0)
-       (get_local $1)
       )
      )
      (if
       (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<u16>#has
-         (get_local $0)
-         (get_local $1)
+       (i32.and
+        (i32.load offset=4
+         (get_local $3)
         )
+        (get_global $~lib/set/EMPTY)
        )
       )
       (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 26)
-        (i32.const 4)
+       (set_global $~argc
+        (i32.const 3)
        )
-       (unreachable)
-      )
+       (call_indirect (type $iiiv)
+        (i32.load16_s
+         (get_local $3)
+        )
+        (i32.load16_s
+         (get_local $3)
+        )
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (get_local $1)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
+       )
+      )
      )
     )
-    (set_local $1
+    (set_local $2
      (i32.add
-      (get_local $1)
+      (get_local $2)
       (i32.const 1)
      )
     )
-    (br $repeat|2)
+    (br $repeat|0)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<u16>#get:size
-      (get_local $0)
-     )
-     (i32.const 50)
-    )
+ )
+ (func $std/set/test<i16> (; 62 ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (set_local $2
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
    )
-   (block
-    (call $~lib/env/abort
+  )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block
+   (set_local $0
+    (call $~lib/set/Set<i16>#constructor
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 28)
-     (i32.const 2)
     )
-    (unreachable)
-   )
-  )
-  (block $break|3
-   (set_local $1
-    (i32.const 0)
    )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (i32.lt_u
-       (get_local $1)
-       (i32.const 50)
-      )
-     )
+   (block $break|0
+    (set_local $1
+     (i32.const 0)
     )
-    (block
-     (if
+    (loop $repeat|0
+     (br_if $break|0
       (i32.eqz
+       (i32.lt_s
+        (get_local $1)
+        (i32.const 100)
+       )
+      )
+     )
+     (block
+      (if
        (i32.eqz
-        (call $~lib/set/Set<u16>#has
+        (i32.eqz
+         (call $~lib/set/Set<i16>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 8)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/set/Set<i16>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i16>#has
          (get_local $0)
          (get_local $1)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 32)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 10)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-     (call $~lib/set/Set<u16>#add
-      (get_local $0)
-      (get_local $1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
-     (if
+     (br $repeat|0)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<i16>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 12)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|1
+    (set_local $1
+     (i32.const 50)
+    )
+    (loop $repeat|1
+     (br_if $break|1
       (i32.eqz
-       (call $~lib/set/Set<u16>#has
-        (get_local $0)
+       (i32.lt_s
         (get_local $1)
+        (i32.const 100)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 34)
-        (i32.const 4)
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i16>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 16)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
-     )
-     (drop
-      (call $~lib/set/Set<u16>#delete
+      (call $~lib/set/Set<i16>#add
        (get_local $0)
        (get_local $1)
       )
-     )
-     (if
-      (i32.eqz
+      (if
        (i32.eqz
-        (call $~lib/set/Set<u16>#has
+        (call $~lib/set/Set<i16>#has
          (get_local $0)
          (get_local $1)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 36)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 18)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-    )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
+     (br $repeat|1)
     )
-    (br $repeat|3)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<u16>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<i16>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
      )
-     (i32.const 50)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 38)
-     (i32.const 2)
     )
-    (unreachable)
-   )
-  )
-  (call $~lib/set/Set<u16>#clear
-   (get_local $0)
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<u16>#get:size
-      (get_local $0)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 20)
+      (i32.const 2)
      )
-     (i32.const 0)
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
+   (block $break|2
+    (set_local $1
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
     )
-    (unreachable)
-   )
-  )
- )
- (func $~lib/set/Set<i32>#clear (; 49 ;) (type $iv) (param $0 i32)
-  (i32.store
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 16)
-    (i32.const 0)
-   )
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (i32.sub
-    (get_global $~lib/set/INITIAL_CAPACITY)
-    (i32.const 1)
-   )
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 32)
-    (i32.const 1)
-   )
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_global $~lib/set/INITIAL_CAPACITY)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.const 0)
-  )
- )
- (func $~lib/set/Set<i32>#constructor (; 50 ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (call $~lib/set/Set<i32>#clear
-   (tee_local $0
-    (if (result i32)
-     (get_local $0)
-     (get_local $0)
-     (tee_local $0
-      (block (result i32)
-       (set_local $1
-        (call $~lib/memory/memory.allocate
-         (i32.const 24)
-        )
-       )
-       (i32.store
+    (loop $repeat|2
+     (br_if $break|2
+      (i32.eqz
+       (i32.lt_s
         (get_local $1)
-        (i32.const 0)
+        (i32.const 50)
        )
-       (i32.store offset=4
-        (get_local $1)
-        (i32.const 0)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i16>#has
+         (get_local $0)
+         (get_local $1)
+        )
        )
-       (i32.store offset=8
-        (get_local $1)
-        (i32.const 0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 24)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (i32.store offset=12
+      )
+      (drop
+       (call $~lib/set/Set<i16>#delete
+        (get_local $0)
         (get_local $1)
-        (i32.const 0)
        )
-       (i32.store offset=16
-        (get_local $1)
-        (i32.const 0)
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<i16>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
        )
-       (i32.store offset=20
-        (get_local $1)
-        (i32.const 0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 26)
+         (i32.const 4)
+        )
+        (unreachable)
        )
+      )
+     )
+     (set_local $1
+      (i32.add
        (get_local $1)
+       (i32.const 1)
       )
      )
+     (br $repeat|2)
     )
    )
-  )
-  (get_local $0)
- )
- (func $~lib/internal/hash/hash32 (; 51 ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (set_local $1
-   (get_global $~lib/internal/hash/FNV_OFFSET)
-  )
-  (set_local $1
-   (i32.mul
-    (i32.xor
-     (get_local $1)
-     (i32.and
-      (get_local $0)
-      (i32.const 255)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<i16>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
      )
     )
-    (get_global $~lib/internal/hash/FNV_PRIME)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 28)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
    )
-  )
-  (set_local $1
-   (i32.mul
-    (i32.xor
-     (get_local $1)
-     (i32.and
-      (i32.shr_u
+   (block $break|3
+    (set_local $1
+     (i32.const 0)
+    )
+    (loop $repeat|3
+     (br_if $break|3
+      (i32.eqz
+       (i32.lt_s
+        (get_local $1)
+        (i32.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<i16>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 32)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/set/Set<i16>#add
        (get_local $0)
-       (i32.const 8)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i16>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 34)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/set/Set<i16>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<i16>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 36)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
       )
-      (i32.const 255)
      )
+     (br $repeat|3)
     )
-    (get_global $~lib/internal/hash/FNV_PRIME)
    )
-  )
-  (set_local $1
-   (i32.mul
-    (i32.xor
-     (get_local $1)
-     (i32.and
-      (i32.shr_u
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<i16>#get:size
        (get_local $0)
-       (i32.const 16)
       )
-      (i32.const 255)
+      (i32.const 50)
      )
     )
-    (get_global $~lib/internal/hash/FNV_PRIME)
-   )
-  )
-  (set_local $1
-   (i32.mul
-    (i32.xor
-     (get_local $1)
-     (i32.shr_u
-      (get_local $0)
-      (i32.const 24)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 38)
+      (i32.const 2)
      )
+     (unreachable)
     )
-    (get_global $~lib/internal/hash/FNV_PRIME)
    )
-  )
-  (get_local $1)
- )
- (func $~lib/internal/hash/hash<i32> (; 52 ;) (type $ii) (param $0 i32) (result i32)
-  (return
-   (call $~lib/internal/hash/hash32
-    (get_local $0)
+   (i32.store offset=4
+    (get_local $2)
+    (i32.const 0)
    )
-  )
- )
- (func $~lib/set/Set<i32>#find (; 53 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
-  (local $3 i32)
-  (local $4 i32)
-  (set_local $3
-   (i32.load offset=8
-    (i32.add
-     (i32.load
-      (get_local $0)
-     )
-     (i32.mul
-      (i32.and
-       (get_local $2)
-       (i32.load offset=4
-        (get_local $0)
-       )
+   (block $break|4
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<i16>#__iterator
+      (call $~lib/set/Set<i16>#values
+       (get_local $0)
       )
-      (get_global $~lib/set/BUCKET_SIZE)
      )
     )
-   )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (get_local $3)
+    (loop $repeat|4
+     (br_if $break|4
+      (call $~lib/iterator/Iterator<i16>#get:done|virtual
+       (get_local $1)
+      )
+     )
      (block
       (block
-       (if
+       (set_local $5
+        (call $~lib/memory/memory.allocate
+         (i32.const 6)
+        )
+       )
+       (i32.store
+        (get_local $5)
+        (get_local $2)
+       )
+       (i32.store16 offset=4
+        (get_local $5)
+        (i32.const 0)
+       )
+      )
+      (i32.store16 offset=4
+       (get_local $5)
+       (call $~lib/iterator/Iterator<i16>#next|virtual
+        (get_local $1)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
         (if (result i32)
-         (tee_local $4
-          (i32.eqz
-           (i32.and
-            (i32.load offset=4
-             (get_local $3)
-            )
-            (get_global $~lib/set/EMPTY)
+         (tee_local $6
+          (i32.ge_s
+           (i32.load16_s offset=4
+            (get_local $5)
            )
+           (i32.const 50)
           )
          )
-         (i32.eq
-          (i32.load
-           (get_local $3)
+         (i32.lt_s
+          (i32.load16_s offset=4
+           (get_local $5)
           )
-          (get_local $1)
+          (i32.const 100)
          )
-         (get_local $4)
+         (get_local $6)
         )
-        (return
-         (get_local $3)
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 43)
+         (i32.const 4)
         )
+        (unreachable)
        )
-       (set_local $3
-        (i32.and
-         (i32.load offset=4
-          (get_local $3)
-         )
-         (i32.xor
-          (get_global $~lib/set/EMPTY)
-          (i32.const -1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i16>#has
+         (get_local $0)
+         (i32.load16_s offset=4
+          (get_local $5)
          )
         )
        )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 44)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
       )
-      (br $continue|0)
      )
+     (br $repeat|4)
     )
    )
-  )
-  (i32.const 0)
- )
- (func $~lib/set/Set<i32>#has (; 54 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.ne
-   (call $~lib/set/Set<i32>#find
-    (get_local $0)
-    (get_local $1)
-    (call $~lib/internal/hash/hash<i32>
-     (get_local $1)
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 47)
+      (i32.const 2)
+     )
+     (unreachable)
     )
    )
-   (i32.const 0)
-  )
- )
- (func $~lib/set/Set<i32>#rehash (; 55 ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (local $9 i32)
-  (local $10 i32)
-  (local $11 i32)
-  (local $12 i32)
-  (set_local $2
-   (i32.add
-    (get_local $1)
-    (i32.const 1)
-   )
-  )
-  (set_local $3
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $2)
-     (get_global $~lib/set/BUCKET_SIZE)
+   (block $break|5
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<i16>#__iterator
+      (call $~lib/set/Set<i16>#keys
+       (get_local $0)
+      )
+     )
     )
-    (i32.const 0)
-   )
-  )
-  (set_local $4
-   (i32.trunc_s/f64
-    (f64.mul
-     (f64.convert_s/i32
-      (get_local $2)
+    (loop $repeat|5
+     (br_if $break|5
+      (call $~lib/iterator/Iterator<i16>#get:done|virtual
+       (get_local $1)
+      )
      )
-     (get_global $~lib/set/FILL_FACTOR)
+     (block
+      (block
+       (set_local $8
+        (call $~lib/memory/memory.allocate
+         (i32.const 6)
+        )
+       )
+       (i32.store
+        (get_local $8)
+        (get_local $2)
+       )
+       (i32.store16 offset=4
+        (get_local $8)
+        (i32.const 0)
+       )
+      )
+      (i32.store16 offset=4
+       (get_local $8)
+       (call $~lib/iterator/Iterator<i16>#next|virtual
+        (get_local $1)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i16>#has
+         (get_local $0)
+         (i32.load16_s offset=4
+          (get_local $8)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 49)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|5)
     )
    )
-  )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $4)
-     (block $~lib/set/ENTRY_SIZE<i32>|inlined.1 (result i32)
-      (i32.const 8)
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
      )
     )
-    (i32.const 1)
-   )
-  )
-  (set_local $6
-   (i32.add
-    (i32.load offset=8
-     (get_local $0)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 52)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
    )
-  )
-  (set_local $7
-   (i32.add
-    (get_local $6)
-    (i32.mul
-     (i32.load offset=16
-      (get_local $0)
+   (block $break|6
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<KeyValue<i16,i16>>#__iterator
+      (call $~lib/set/Set<i16>#entries
+       (get_local $0)
+      )
      )
-     (block $~lib/set/ENTRY_SIZE<i32>|inlined.2 (result i32)
-      (i32.const 8)
+    )
+    (loop $repeat|6
+     (br_if $break|6
+      (call $~lib/iterator/Iterator<KeyValue<i16,i16>>#get:done|virtual
+       (get_local $1)
+      )
+     )
+     (set_local $6
+      (call $~lib/iterator/Iterator<KeyValue<i16,i16>>#next|virtual
+       (get_local $1)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load16_s
+          (get_local $6)
+         )
+         (i32.load16_s offset=2
+          (get_local $6)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 54)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
      )
+     (br $repeat|6)
     )
    )
-  )
-  (set_local $8
-   (i32.add
-    (get_local $5)
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 57)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
    )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (i32.ne
-      (get_local $6)
-      (get_local $7)
+   (block $break|7
+    (set_local $6
+     (call $~lib/set/Set<i16>#__iterator
+      (get_local $0)
+     )
+    )
+    (loop $repeat|7
+     (br_if $break|7
+      (call $~lib/iterator/Iterator<i16>#get:done|virtual
+       (get_local $6)
+      )
      )
      (block
       (block
-       (set_local $9
+       (set_local $10
+        (call $~lib/memory/memory.allocate
+         (i32.const 6)
+        )
+       )
+       (i32.store
+        (get_local $10)
+        (get_local $2)
+       )
+       (i32.store16 offset=4
+        (get_local $10)
+        (i32.const 0)
+       )
+      )
+      (i32.store16 offset=4
+       (get_local $10)
+       (call $~lib/iterator/Iterator<i16>#next|virtual
         (get_local $6)
        )
-       (if
-        (i32.eqz
-         (i32.and
-          (i32.load offset=4
-           (get_local $9)
-          )
-          (get_global $~lib/set/EMPTY)
-         )
-        )
-        (block
-         (set_local $10
-          (get_local $8)
-         )
-         (i32.store
-          (get_local $10)
-          (i32.load
-           (get_local $9)
-          )
-         )
-         (set_local $11
-          (i32.and
-           (block $~lib/internal/hash/hash<i32>|inlined.0 (result i32)
-            (set_local $11
-             (i32.load
-              (get_local $9)
-             )
-            )
-            (br $~lib/internal/hash/hash<i32>|inlined.0
-             (call $~lib/internal/hash/hash32
-              (get_local $11)
-             )
-            )
-           )
-           (get_local $1)
-          )
-         )
-         (set_local $12
-          (i32.add
-           (get_local $3)
-           (i32.mul
-            (get_local $11)
-            (get_global $~lib/set/BUCKET_SIZE)
-           )
-          )
-         )
-         (i32.store offset=4
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i16>#has
+         (get_local $0)
+         (i32.load16_s offset=4
           (get_local $10)
-          (i32.load offset=8
-           (get_local $12)
-          )
-         )
-         (i32.store offset=8
-          (get_local $12)
-          (get_local $8)
-         )
-         (set_local $8
-          (i32.add
-           (get_local $8)
-           (block $~lib/set/ENTRY_SIZE<i32>|inlined.3 (result i32)
-            (i32.const 8)
-           )
-          )
          )
         )
        )
-       (set_local $6
-        (i32.add
-         (get_local $6)
-         (block $~lib/set/ENTRY_SIZE<i32>|inlined.4 (result i32)
-          (i32.const 8)
-         )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 59)
+         (i32.const 4)
         )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
       )
-      (br $continue|0)
      )
+     (br $repeat|7)
     )
    )
-  )
-  (i32.store
-   (get_local $0)
-   (get_local $3)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $4)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
-   )
-  )
- )
- (func $~lib/set/Set<i32>#add (; 56 ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (set_local $2
-   (call $~lib/internal/hash/hash<i32>
-    (get_local $1)
-   )
-  )
-  (set_local $3
-   (call $~lib/set/Set<i32>#find
-    (get_local $0)
-    (get_local $1)
-    (get_local $2)
-   )
-  )
-  (if
-   (i32.eqz
-    (get_local $3)
-   )
-   (block
-    (if
+   (if
+    (i32.eqz
      (i32.eq
-      (i32.load offset=16
-       (get_local $0)
-      )
-      (i32.load offset=12
-       (get_local $0)
-      )
-     )
-     (call $~lib/set/Set<i32>#rehash
-      (get_local $0)
-      (if (result i32)
-       (i32.lt_s
-        (i32.load offset=20
-         (get_local $0)
-        )
-        (i32.trunc_s/f64
-         (f64.mul
-          (f64.convert_s/i32
-           (i32.load offset=12
-            (get_local $0)
-           )
-          )
-          (get_global $~lib/set/FREE_FACTOR)
-         )
-        )
-       )
-       (i32.load offset=4
-        (get_local $0)
-       )
-       (i32.or
-        (i32.shl
-         (i32.load offset=4
-          (get_local $0)
-         )
-         (i32.const 1)
-        )
-        (i32.const 1)
-       )
+      (i32.load offset=4
+       (get_local $2)
       )
+      (i32.const 0)
      )
     )
-    (set_local $4
-     (i32.load offset=8
-      (get_local $0)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 62)
+      (i32.const 2)
      )
+     (unreachable)
     )
-    (set_local $3
-     (i32.add
-      (i32.add
-       (get_local $4)
-       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
-      )
-      (i32.mul
-       (block (result i32)
-        (set_local $5
-         (i32.load offset=16
-          (get_local $0)
-         )
-        )
-        (i32.store offset=16
-         (get_local $0)
-         (i32.add
-          (get_local $5)
-          (i32.const 1)
-         )
-        )
-        (get_local $5)
-       )
-       (block $~lib/set/ENTRY_SIZE<i32>|inlined.5 (result i32)
-        (i32.const 8)
-       )
+   )
+   (call $~lib/set/Set<i16>#forEach
+    (get_local $0)
+    (block (result i32)
+     (set_local $6
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
       )
      )
+     (i32.store
+      (get_local $6)
+      (i32.const 2)
+     )
+     (i32.store offset=4
+      (get_local $6)
+      (get_local $2)
+     )
+     (get_local $6)
     )
-    (i32.store
-     (get_local $3)
-     (get_local $1)
-    )
-    (i32.store offset=20
-     (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
       )
-      (i32.const 1)
+      (i32.const 50)
      )
     )
-    (set_local $5
-     (i32.add
-      (i32.load
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 67)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/set/Set<i16>#clear
+    (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<i16>#get:size
        (get_local $0)
       )
-      (i32.mul
-       (i32.and
-        (get_local $2)
-        (i32.load offset=4
-         (get_local $0)
-        )
-       )
-       (get_global $~lib/set/BUCKET_SIZE)
-      )
+      (i32.const 0)
      )
     )
-    (i32.store offset=4
-     (get_local $3)
-     (i32.load offset=8
-      (get_local $5)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 71)
+      (i32.const 2)
      )
-    )
-    (i32.store offset=8
-     (get_local $5)
-     (get_local $3)
+     (unreachable)
     )
    )
   )
  )
- (func $~lib/set/Set<i32>#get:size (; 57 ;) (type $ii) (param $0 i32) (result i32)
-  (i32.load offset=20
+ (func $~lib/set/Set<u16>#clear (; 63 ;) (type $iv) (param $0 i32)
+  (i32.store
    (get_local $0)
-  )
- )
- (func $~lib/set/Set<i32>#delete (; 58 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (set_local $2
-   (call $~lib/set/Set<i32>#find
-    (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<i32>|inlined.1 (result i32)
-     (br $~lib/internal/hash/hash<i32>|inlined.1
-      (call $~lib/internal/hash/hash32
-       (get_local $1)
-      )
-     )
-    )
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 16)
+    (i32.const 0)
    )
   )
-  (if
-   (i32.eqz
-    (get_local $2)
+  (i32.store offset=4
+   (get_local $0)
+   (i32.sub
+    (get_global $~lib/set/INITIAL_CAPACITY)
+    (i32.const 1)
    )
-   (return
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
     (i32.const 0)
+    (i32.const 32)
+    (i32.const 1)
    )
   )
-  (i32.store offset=4
-   (get_local $2)
-   (i32.or
-    (i32.load offset=4
-     (get_local $2)
-    )
-    (get_global $~lib/set/EMPTY)
-   )
+  (i32.store offset=12
+   (get_local $0)
+   (get_global $~lib/set/INITIAL_CAPACITY)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.const 0)
   )
   (i32.store offset=20
    (get_local $0)
-   (i32.sub
-    (i32.load offset=20
+   (i32.const 0)
+  )
+ )
+ (func $~lib/set/Set<u16>#constructor (; 64 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/set/Set<u16>#clear
+   (tee_local $0
+    (if (result i32)
      (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $1
+        (call $~lib/memory/memory.allocate
+         (i32.const 24)
+        )
+       )
+       (i32.store
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=8
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=12
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=16
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=20
+        (get_local $1)
+        (i32.const 0)
+       )
+       (get_local $1)
+      )
+     )
     )
-    (i32.const 1)
    )
   )
-  (set_local $3
-   (i32.shr_u
-    (i32.load offset=4
+  (get_local $0)
+ )
+ (func $~lib/internal/hash/hash<u16> (; 65 ;) (type $ii) (param $0 i32) (result i32)
+  (return
+   (call $~lib/internal/hash/hash16
+    (i32.and
      (get_local $0)
+     (i32.const 65535)
     )
-    (i32.const 1)
    )
   )
-  (if
-   (if (result i32)
-    (tee_local $4
-     (i32.ge_u
-      (i32.add
-       (get_local $3)
-       (i32.const 1)
-      )
-      (select
-       (tee_local $4
-        (get_global $~lib/set/INITIAL_CAPACITY)
-       )
-       (tee_local $5
-        (i32.load offset=20
-         (get_local $0)
-        )
-       )
-       (i32.gt_u
-        (get_local $4)
-        (get_local $5)
+ )
+ (func $~lib/set/Set<u16>#find (; 66 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (i32.mul
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
        )
       )
+      (get_global $~lib/set/BUCKET_SIZE)
      )
     )
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $0)
-     )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $0)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (get_local $3)
+     (block
+      (block
+       (if
+        (if (result i32)
+         (tee_local $4
+          (i32.eqz
+           (i32.and
+            (i32.load offset=4
+             (get_local $3)
+            )
+            (get_global $~lib/set/EMPTY)
+           )
+          )
+         )
+         (i32.eq
+          (i32.load16_u
+           (get_local $3)
+          )
+          (i32.and
+           (get_local $1)
+           (i32.const 65535)
+          )
+         )
+         (get_local $4)
+        )
+        (return
+         (get_local $3)
+        )
+       )
+       (set_local $3
+        (i32.and
+         (i32.load offset=4
+          (get_local $3)
+         )
+         (i32.xor
+          (get_global $~lib/set/EMPTY)
+          (i32.const -1)
+         )
         )
        )
-       (get_global $~lib/set/FREE_FACTOR)
       )
+      (br $continue|0)
      )
     )
-    (get_local $4)
    )
-   (call $~lib/set/Set<i32>#rehash
+  )
+  (i32.const 0)
+ )
+ (func $~lib/set/Set<u16>#has (; 67 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.ne
+   (call $~lib/set/Set<u16>#find
     (get_local $0)
-    (get_local $3)
+    (get_local $1)
+    (call $~lib/internal/hash/hash<u16>
+     (get_local $1)
+    )
    )
+   (i32.const 0)
   )
-  (i32.const 1)
  )
- (func $std/set/test<i32> (; 59 ;) (type $v)
-  (local $0 i32)
-  (local $1 i32)
-  (set_local $0
-   (call $~lib/set/Set<i32>#constructor
-    (i32.const 0)
+ (func $~lib/set/Set<u16>#rehash (; 68 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (set_local $2
+   (i32.add
+    (get_local $1)
+    (i32.const 1)
    )
   )
-  (block $break|0
-   (set_local $1
+  (set_local $3
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
     (i32.const 0)
-   )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 100)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<i32>#has
-         (get_local $0)
-         (get_local $1)
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 8)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/set/Set<i32>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 10)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
+    (i32.mul
+     (get_local $2)
+     (get_global $~lib/set/BUCKET_SIZE)
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+    (i32.const 0)
+   )
+  )
+  (set_local $4
+   (i32.trunc_s/f64
+    (f64.mul
+     (f64.convert_s/i32
+      (get_local $2)
      )
+     (get_global $~lib/set/FILL_FACTOR)
     )
-    (br $repeat|0)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<i32>#get:size
-      (get_local $0)
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $4)
+     (block $~lib/set/ENTRY_SIZE<u16>|inlined.1 (result i32)
+      (i32.const 8)
      )
-     (i32.const 100)
     )
+    (i32.const 1)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 12)
-     (i32.const 2)
+  )
+  (set_local $6
+   (i32.add
+    (i32.load offset=8
+     (get_local $0)
     )
-    (unreachable)
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
    )
   )
-  (block $break|1
-   (set_local $1
-    (i32.const 50)
-   )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 100)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 16)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/set/Set<i32>#add
+  (set_local $7
+   (i32.add
+    (get_local $6)
+    (i32.mul
+     (i32.load offset=16
       (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 18)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
      )
-    )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+     (block $~lib/set/ENTRY_SIZE<u16>|inlined.2 (result i32)
+      (i32.const 8)
      )
     )
-    (br $repeat|1)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<i32>#get:size
-      (get_local $0)
-     )
-     (i32.const 100)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 20)
-     (i32.const 2)
-    )
-    (unreachable)
+  (set_local $8
+   (i32.add
+    (get_local $5)
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
    )
   )
-  (block $break|2
-   (set_local $1
-    (i32.const 0)
-   )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 50)
-      )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.ne
+      (get_local $6)
+      (get_local $7)
      )
-    )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<i32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
+     (block
       (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 24)
-        (i32.const 4)
+       (set_local $9
+        (get_local $6)
        )
-       (unreachable)
-      )
-     )
-     (drop
-      (call $~lib/set/Set<i32>#delete
-       (get_local $0)
-       (get_local $1)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<i32>#has
-         (get_local $0)
-         (get_local $1)
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=4
+           (get_local $9)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (block
+         (set_local $10
+          (get_local $8)
+         )
+         (i32.store16
+          (get_local $10)
+          (i32.load16_u
+           (get_local $9)
+          )
+         )
+         (set_local $11
+          (i32.and
+           (block $~lib/internal/hash/hash<u16>|inlined.0 (result i32)
+            (set_local $11
+             (i32.load16_u
+              (get_local $9)
+             )
+            )
+            (br $~lib/internal/hash/hash<u16>|inlined.0
+             (call $~lib/internal/hash/hash16
+              (get_local $11)
+             )
+            )
+           )
+           (get_local $1)
+          )
+         )
+         (set_local $12
+          (i32.add
+           (get_local $3)
+           (i32.mul
+            (get_local $11)
+            (get_global $~lib/set/BUCKET_SIZE)
+           )
+          )
+         )
+         (i32.store offset=4
+          (get_local $10)
+          (i32.load offset=8
+           (get_local $12)
+          )
+         )
+         (i32.store offset=8
+          (get_local $12)
+          (get_local $8)
+         )
+         (set_local $8
+          (i32.add
+           (get_local $8)
+           (block $~lib/set/ENTRY_SIZE<u16>|inlined.3 (result i32)
+            (i32.const 8)
+           )
+          )
+         )
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 26)
-        (i32.const 4)
+       (set_local $6
+        (i32.add
+         (get_local $6)
+         (block $~lib/set/ENTRY_SIZE<u16>|inlined.4 (result i32)
+          (i32.const 8)
+         )
+        )
        )
-       (unreachable)
       )
+      (br $continue|0)
      )
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
-     )
-    )
-    (br $repeat|2)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<i32>#get:size
-      (get_local $0)
-     )
-     (i32.const 50)
-    )
+  (i32.store
+   (get_local $0)
+   (get_local $3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 28)
-     (i32.const 2)
-    )
-    (unreachable)
+  )
+ )
+ (func $~lib/set/Set<u16>#add (; 69 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (call $~lib/internal/hash/hash<u16>
+    (get_local $1)
    )
   )
-  (block $break|3
-   (set_local $1
-    (i32.const 0)
+  (set_local $3
+   (call $~lib/set/Set<u16>#find
+    (get_local $0)
+    (get_local $1)
+    (get_local $2)
    )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (i32.lt_s
-       (get_local $1)
-       (i32.const 50)
+  )
+  (if
+   (i32.eqz
+    (get_local $3)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
       )
      )
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<i32>#has
+     (call $~lib/set/Set<u16>#rehash
+      (get_local $0)
+      (if (result i32)
+       (i32.lt_s
+        (i32.load offset=20
          (get_local $0)
-         (get_local $1)
+        )
+        (i32.trunc_s/f64
+         (f64.mul
+          (f64.convert_s/i32
+           (i32.load offset=12
+            (get_local $0)
+           )
+          )
+          (get_global $~lib/set/FREE_FACTOR)
+         )
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 32)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/set/Set<i32>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<i32>#has
+       (i32.load offset=4
         (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 34)
-        (i32.const 4)
        )
-       (unreachable)
-      )
-     )
-     (drop
-      (call $~lib/set/Set<i32>#delete
-       (get_local $0)
-       (get_local $1)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<i32>#has
-         (get_local $0)
-         (get_local $1)
+       (i32.or
+        (i32.shl
+         (i32.load offset=4
+          (get_local $0)
+         )
+         (i32.const 1)
         )
+        (i32.const 1)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 36)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
      )
     )
-    (set_local $1
+    (set_local $4
+     (i32.load offset=8
+      (get_local $0)
+     )
+    )
+    (set_local $3
      (i32.add
-      (get_local $1)
+      (i32.add
+       (get_local $4)
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+      (i32.mul
+       (block (result i32)
+        (set_local $5
+         (i32.load offset=16
+          (get_local $0)
+         )
+        )
+        (i32.store offset=16
+         (get_local $0)
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+       (block $~lib/set/ENTRY_SIZE<u16>|inlined.5 (result i32)
+        (i32.const 8)
+       )
+      )
+     )
+    )
+    (i32.store16
+     (get_local $3)
+     (get_local $1)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
+      )
       (i32.const 1)
      )
     )
-    (br $repeat|3)
-   )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<i32>#get:size
-      (get_local $0)
+    (set_local $5
+     (i32.add
+      (i32.load
+       (get_local $0)
+      )
+      (i32.mul
+       (i32.and
+        (get_local $2)
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (get_global $~lib/set/BUCKET_SIZE)
+      )
      )
-     (i32.const 50)
     )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 38)
-     (i32.const 2)
+    (i32.store offset=4
+     (get_local $3)
+     (i32.load offset=8
+      (get_local $5)
+     )
+    )
+    (i32.store offset=8
+     (get_local $5)
+     (get_local $3)
     )
-    (unreachable)
    )
   )
-  (call $~lib/set/Set<i32>#clear
+ )
+ (func $~lib/set/Set<u16>#get:size (; 70 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=20
    (get_local $0)
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<i32>#get:size
-      (get_local $0)
+ )
+ (func $~lib/set/Set<u16>#delete (; 71 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (call $~lib/set/Set<u16>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<u16>|inlined.1 (result i32)
+     (br $~lib/internal/hash/hash<u16>|inlined.1
+      (call $~lib/internal/hash/hash16
+       (i32.and
+        (get_local $1)
+        (i32.const 65535)
+       )
+      )
      )
-     (i32.const 0)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
   )
- )
- (func $~lib/set/Set<u32>#clear (; 60 ;) (type $iv) (param $0 i32)
-  (i32.store
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 16)
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return
     (i32.const 0)
    )
   )
   (i32.store offset=4
+   (get_local $2)
+   (i32.or
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (get_global $~lib/set/EMPTY)
+   )
+  )
+  (i32.store offset=20
    (get_local $0)
    (i32.sub
-    (get_global $~lib/set/INITIAL_CAPACITY)
+    (i32.load offset=20
+     (get_local $0)
+    )
     (i32.const 1)
    )
   )
-  (i32.store offset=8
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 32)
+  (set_local $3
+   (i32.shr_u
+    (i32.load offset=4
+     (get_local $0)
+    )
     (i32.const 1)
    )
   )
-  (i32.store offset=12
-   (get_local $0)
-   (get_global $~lib/set/INITIAL_CAPACITY)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.const 0)
-  )
- )
- (func $~lib/set/Set<u32>#constructor (; 61 ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (call $~lib/set/Set<u32>#clear
-   (tee_local $0
-    (if (result i32)
-     (get_local $0)
-     (get_local $0)
-     (tee_local $0
-      (block (result i32)
-       (set_local $1
-        (call $~lib/memory/memory.allocate
-         (i32.const 24)
-        )
-       )
-       (i32.store
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=4
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=8
-        (get_local $1)
-        (i32.const 0)
+  (if
+   (if (result i32)
+    (tee_local $4
+     (i32.ge_u
+      (i32.add
+       (get_local $3)
+       (i32.const 1)
+      )
+      (select
+       (tee_local $4
+        (get_global $~lib/set/INITIAL_CAPACITY)
        )
-       (i32.store offset=12
-        (get_local $1)
-        (i32.const 0)
+       (tee_local $5
+        (i32.load offset=20
+         (get_local $0)
+        )
        )
-       (i32.store offset=16
-        (get_local $1)
-        (i32.const 0)
+       (i32.gt_u
+        (get_local $4)
+        (get_local $5)
        )
-       (i32.store offset=20
-        (get_local $1)
-        (i32.const 0)
+      )
+     )
+    )
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $0)
+     )
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $0)
+        )
        )
-       (get_local $1)
+       (get_global $~lib/set/FREE_FACTOR)
       )
      )
     )
+    (get_local $4)
    )
-  )
-  (get_local $0)
- )
- (func $~lib/internal/hash/hash<u32> (; 62 ;) (type $ii) (param $0 i32) (result i32)
-  (return
-   (call $~lib/internal/hash/hash32
+   (call $~lib/set/Set<u16>#rehash
     (get_local $0)
+    (get_local $3)
    )
   )
+  (i32.const 1)
  )
- (func $~lib/set/Set<u32>#find (; 63 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+ (func $~lib/set/Set<u16>#values (; 72 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
   (local $3 i32)
-  (local $4 i32)
   (set_local $3
-   (i32.load offset=8
-    (i32.add
-     (i32.load
-      (get_local $0)
-     )
-     (i32.mul
-      (i32.and
-       (get_local $2)
-       (i32.load offset=4
-        (get_local $0)
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
        )
+       (i32.const 42)
       )
-      (get_global $~lib/set/BUCKET_SIZE)
+      (get_local $2)
      )
     )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
    )
   )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (get_local $3)
-     (block
-      (block
-       (if
-        (if (result i32)
-         (tee_local $4
-          (i32.eqz
-           (i32.and
-            (i32.load offset=4
-             (get_local $3)
-            )
-            (get_global $~lib/set/EMPTY)
-           )
-          )
-         )
-         (i32.eq
-          (i32.load
-           (get_local $3)
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<u16>#__iterator (; 73 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<u16>#keys (; 74 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<u16>#values
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<u16>#entries (; 75 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
           )
-          (get_local $1)
+          (i32.const 8)
          )
-         (get_local $4)
         )
-        (return
+        (i32.const 4)
+       )
+       (i32.const 47)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<KeyValue<u16,u16>>#__iterator (; 76 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<u16>#__iterator (; 77 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<u16>#values
+   (get_local $0)
+  )
+ )
+ (func $std/set/test<u16>~anonymous|3 (; 78 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (block
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.and
+       (get_local $0)
+       (i32.const 65535)
+      )
+      (i32.and
+       (get_local $1)
+       (i32.const 65535)
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 64)
+      (i32.const 4)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $3)
+    (i32.add
+     (i32.load offset=4
+      (get_local $3)
+     )
+     (i32.const 1)
+    )
+   )
+  )
+ )
+ (func $~lib/set/Set<u16>#forEach (; 79 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $2)
+       (i32.load offset=16
+        (get_local $0)
+       )
+      )
+     )
+    )
+    (block
+     (set_local $3
+      (i32.add
+       (i32.add
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+       )
+       (i32.mul
+        (get_local $2)
+        (block $~lib/set/ENTRY_SIZE<u16>|inlined.6 (result i32)
+         (i32.const 8)
+        )
+       )
+      )
+     )
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=4
          (get_local $3)
         )
+        (get_global $~lib/set/EMPTY)
        )
-       (set_local $3
-        (i32.and
-         (i32.load offset=4
-          (get_local $3)
+      )
+      (block
+       (set_global $~argc
+        (i32.const 3)
+       )
+       (call_indirect (type $iiiv)
+        (i32.load16_u
+         (get_local $3)
+        )
+        (i32.load16_u
+         (get_local $3)
+        )
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (get_local $1)
          )
-         (i32.xor
-          (get_global $~lib/set/EMPTY)
-          (i32.const -1)
+         (i32.load
+          (get_global $~env)
          )
         )
        )
       )
-      (br $continue|0)
      )
     )
-   )
-  )
-  (i32.const 0)
- )
- (func $~lib/set/Set<u32>#has (; 64 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (i32.ne
-   (call $~lib/set/Set<u32>#find
-    (get_local $0)
-    (get_local $1)
-    (call $~lib/internal/hash/hash<u32>
-     (get_local $1)
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
     )
+    (br $repeat|0)
    )
-   (i32.const 0)
   )
  )
- (func $~lib/set/Set<u32>#rehash (; 65 ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $std/set/test<u16> (; 80 ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
@@ -5931,820 +6529,817 @@
   (local $8 i32)
   (local $9 i32)
   (local $10 i32)
-  (local $11 i32)
-  (local $12 i32)
   (set_local $2
-   (i32.add
-    (get_local $1)
-    (i32.const 1)
-   )
-  )
-  (set_local $3
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $2)
-     (get_global $~lib/set/BUCKET_SIZE)
-    )
-    (i32.const 0)
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
    )
   )
-  (set_local $4
-   (i32.trunc_s/f64
-    (f64.mul
-     (f64.convert_s/i32
-      (get_local $2)
-     )
-     (get_global $~lib/set/FILL_FACTOR)
-    )
-   )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
   )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $4)
-     (block $~lib/set/ENTRY_SIZE<u32>|inlined.1 (result i32)
-      (i32.const 8)
-     )
-    )
-    (i32.const 1)
-   )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
   )
-  (set_local $6
-   (i32.add
-    (i32.load offset=8
-     (get_local $0)
+  (block
+   (set_local $0
+    (call $~lib/set/Set<u16>#constructor
+     (i32.const 0)
     )
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
    )
-  )
-  (set_local $7
-   (i32.add
-    (get_local $6)
-    (i32.mul
-     (i32.load offset=16
-      (get_local $0)
-     )
-     (block $~lib/set/ENTRY_SIZE<u32>|inlined.2 (result i32)
-      (i32.const 8)
-     )
+   (block $break|0
+    (set_local $1
+     (i32.const 0)
     )
-   )
-  )
-  (set_local $8
-   (i32.add
-    (get_local $5)
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
-   )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (i32.ne
-      (get_local $6)
-      (get_local $7)
+    (loop $repeat|0
+     (br_if $break|0
+      (i32.eqz
+       (i32.lt_u
+        (get_local $1)
+        (i32.const 100)
+       )
+      )
      )
      (block
-      (block
-       (set_local $9
-        (get_local $6)
-       )
-       (if
+      (if
+       (i32.eqz
         (i32.eqz
-         (i32.and
-          (i32.load offset=4
-           (get_local $9)
-          )
-          (get_global $~lib/set/EMPTY)
+         (call $~lib/set/Set<u16>#has
+          (get_local $0)
+          (get_local $1)
          )
         )
-        (block
-         (set_local $10
-          (get_local $8)
-         )
-         (i32.store
-          (get_local $10)
-          (i32.load
-           (get_local $9)
-          )
-         )
-         (set_local $11
-          (i32.and
-           (block $~lib/internal/hash/hash<u32>|inlined.0 (result i32)
-            (set_local $11
-             (i32.load
-              (get_local $9)
-             )
-            )
-            (br $~lib/internal/hash/hash<u32>|inlined.0
-             (call $~lib/internal/hash/hash32
-              (get_local $11)
-             )
-            )
-           )
-           (get_local $1)
-          )
-         )
-         (set_local $12
-          (i32.add
-           (get_local $3)
-           (i32.mul
-            (get_local $11)
-            (get_global $~lib/set/BUCKET_SIZE)
-           )
-          )
-         )
-         (i32.store offset=4
-          (get_local $10)
-          (i32.load offset=8
-           (get_local $12)
-          )
-         )
-         (i32.store offset=8
-          (get_local $12)
-          (get_local $8)
-         )
-         (set_local $8
-          (i32.add
-           (get_local $8)
-           (block $~lib/set/ENTRY_SIZE<u32>|inlined.3 (result i32)
-            (i32.const 8)
-           )
-          )
-         )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 8)
+         (i32.const 4)
         )
+        (unreachable)
        )
-       (set_local $6
-        (i32.add
-         (get_local $6)
-         (block $~lib/set/ENTRY_SIZE<u32>|inlined.4 (result i32)
-          (i32.const 8)
-         )
+      )
+      (call $~lib/set/Set<u16>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u16>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 10)
+         (i32.const 4)
         )
+        (unreachable)
        )
       )
-      (br $continue|0)
      )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (br $repeat|0)
     )
    )
-  )
-  (i32.store
-   (get_local $0)
-   (get_local $3)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $4)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
-   )
-  )
- )
- (func $~lib/set/Set<u32>#add (; 66 ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (set_local $2
-   (call $~lib/internal/hash/hash<u32>
-    (get_local $1)
-   )
-  )
-  (set_local $3
-   (call $~lib/set/Set<u32>#find
-    (get_local $0)
-    (get_local $1)
-    (get_local $2)
-   )
-  )
-  (if
-   (i32.eqz
-    (get_local $3)
-   )
-   (block
-    (if
+   (if
+    (i32.eqz
      (i32.eq
-      (i32.load offset=16
+      (call $~lib/set/Set<u16>#get:size
        (get_local $0)
       )
-      (i32.load offset=12
-       (get_local $0)
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 12)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|1
+    (set_local $1
+     (i32.const 50)
+    )
+    (loop $repeat|1
+     (br_if $break|1
+      (i32.eqz
+       (i32.lt_u
+        (get_local $1)
+        (i32.const 100)
+       )
       )
      )
-     (call $~lib/set/Set<u32>#rehash
-      (get_local $0)
-      (if (result i32)
-       (i32.lt_s
-        (i32.load offset=20
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u16>#has
          (get_local $0)
+         (get_local $1)
         )
-        (i32.trunc_s/f64
-         (f64.mul
-          (f64.convert_s/i32
-           (i32.load offset=12
-            (get_local $0)
-           )
-          )
-          (get_global $~lib/set/FREE_FACTOR)
-         )
-        )
-       )
-       (i32.load offset=4
-        (get_local $0)
        )
-       (i32.or
-        (i32.shl
-         (i32.load offset=4
-          (get_local $0)
-         )
-         (i32.const 1)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 16)
+         (i32.const 4)
         )
-        (i32.const 1)
+        (unreachable)
        )
       )
-     )
-    )
-    (set_local $4
-     (i32.load offset=8
-      (get_local $0)
-     )
-    )
-    (set_local $3
-     (i32.add
-      (i32.add
-       (get_local $4)
-       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      (call $~lib/set/Set<u16>#add
+       (get_local $0)
+       (get_local $1)
       )
-      (i32.mul
-       (block (result i32)
-        (set_local $5
-         (i32.load offset=16
-          (get_local $0)
-         )
-        )
-        (i32.store offset=16
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u16>#has
          (get_local $0)
-         (i32.add
-          (get_local $5)
-          (i32.const 1)
-         )
+         (get_local $1)
         )
-        (get_local $5)
        )
-       (block $~lib/set/ENTRY_SIZE<u32>|inlined.5 (result i32)
-        (i32.const 8)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 18)
+         (i32.const 4)
+        )
+        (unreachable)
        )
       )
      )
-    )
-    (i32.store
-     (get_local $3)
-     (get_local $1)
-    )
-    (i32.store offset=20
-     (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
       )
-      (i32.const 1)
      )
+     (br $repeat|1)
     )
-    (set_local $5
-     (i32.add
-      (i32.load
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<u16>#get:size
        (get_local $0)
       )
-      (i32.mul
-       (i32.and
-        (get_local $2)
-        (i32.load offset=4
-         (get_local $0)
-        )
-       )
-       (get_global $~lib/set/BUCKET_SIZE)
-      )
+      (i32.const 100)
      )
     )
-    (i32.store offset=4
-     (get_local $3)
-     (i32.load offset=8
-      (get_local $5)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 20)
+      (i32.const 2)
      )
-    )
-    (i32.store offset=8
-     (get_local $5)
-     (get_local $3)
+     (unreachable)
     )
    )
-  )
- )
- (func $~lib/set/Set<u32>#get:size (; 67 ;) (type $ii) (param $0 i32) (result i32)
-  (i32.load offset=20
-   (get_local $0)
-  )
- )
- (func $~lib/set/Set<u32>#delete (; 68 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (set_local $2
-   (call $~lib/set/Set<u32>#find
-    (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<u32>|inlined.1 (result i32)
-     (br $~lib/internal/hash/hash<u32>|inlined.1
-      (call $~lib/internal/hash/hash32
-       (get_local $1)
-      )
-     )
-    )
-   )
-  )
-  (if
-   (i32.eqz
-    (get_local $2)
-   )
-   (return
-    (i32.const 0)
-   )
-  )
-  (i32.store offset=4
-   (get_local $2)
-   (i32.or
-    (i32.load offset=4
-     (get_local $2)
-    )
-    (get_global $~lib/set/EMPTY)
-   )
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.sub
-    (i32.load offset=20
-     (get_local $0)
-    )
-    (i32.const 1)
-   )
-  )
-  (set_local $3
-   (i32.shr_u
-    (i32.load offset=4
-     (get_local $0)
+   (block $break|2
+    (set_local $1
+     (i32.const 0)
     )
-    (i32.const 1)
-   )
-  )
-  (if
-   (if (result i32)
-    (tee_local $4
-     (i32.ge_u
-      (i32.add
-       (get_local $3)
-       (i32.const 1)
-      )
-      (select
-       (tee_local $4
-        (get_global $~lib/set/INITIAL_CAPACITY)
+    (loop $repeat|2
+     (br_if $break|2
+      (i32.eqz
+       (i32.lt_u
+        (get_local $1)
+        (i32.const 50)
        )
-       (tee_local $5
-        (i32.load offset=20
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u16>#has
          (get_local $0)
+         (get_local $1)
         )
        )
-       (i32.gt_u
-        (get_local $4)
-        (get_local $5)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 24)
+         (i32.const 4)
+        )
+        (unreachable)
        )
       )
-     )
-    )
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $0)
-     )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $0)
+      (drop
+       (call $~lib/set/Set<u16>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<u16>#has
+          (get_local $0)
+          (get_local $1)
+         )
         )
        )
-       (get_global $~lib/set/FREE_FACTOR)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 26)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
       )
      )
+     (br $repeat|2)
     )
-    (get_local $4)
-   )
-   (call $~lib/set/Set<u32>#rehash
-    (get_local $0)
-    (get_local $3)
-   )
-  )
-  (i32.const 1)
- )
- (func $std/set/test<u32> (; 69 ;) (type $v)
-  (local $0 i32)
-  (local $1 i32)
-  (set_local $0
-   (call $~lib/set/Set<u32>#constructor
-    (i32.const 0)
-   )
-  )
-  (block $break|0
-   (set_local $1
-    (i32.const 0)
    )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (i32.lt_u
-       (get_local $1)
-       (i32.const 100)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<u16>#get:size
+       (get_local $0)
       )
+      (i32.const 50)
      )
     )
     (block
-     (if
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 28)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|3
+    (set_local $1
+     (i32.const 0)
+    )
+    (loop $repeat|3
+     (br_if $break|3
       (i32.eqz
+       (i32.lt_u
+        (get_local $1)
+        (i32.const 50)
+       )
+      )
+     )
+     (block
+      (if
        (i32.eqz
-        (call $~lib/set/Set<u32>#has
+        (i32.eqz
+         (call $~lib/set/Set<u16>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 32)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/set/Set<u16>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u16>#has
          (get_local $0)
          (get_local $1)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 8)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 34)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
-     )
-     (call $~lib/set/Set<u32>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<u32>#has
+      (drop
+       (call $~lib/set/Set<u16>#delete
         (get_local $0)
         (get_local $1)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 10)
-        (i32.const 4)
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<u16>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 36)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-    )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
+     (br $repeat|3)
     )
-    (br $repeat|0)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<u32>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<u16>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
      )
-     (i32.const 100)
     )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 12)
-     (i32.const 2)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 38)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (unreachable)
    )
-  )
-  (block $break|1
-   (set_local $1
-    (i32.const 50)
+   (i32.store offset=4
+    (get_local $2)
+    (i32.const 0)
    )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.eqz
-      (i32.lt_u
-       (get_local $1)
-       (i32.const 100)
+   (block $break|4
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<u16>#__iterator
+      (call $~lib/set/Set<u16>#values
+       (get_local $0)
       )
      )
     )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<u32>#has
-        (get_local $0)
-        (get_local $1)
-       )
+    (loop $repeat|4
+     (br_if $break|4
+      (call $~lib/iterator/Iterator<u16>#get:done|virtual
+       (get_local $1)
       )
+     )
+     (block
       (block
-       (call $~lib/env/abort
+       (set_local $5
+        (call $~lib/memory/memory.allocate
+         (i32.const 6)
+        )
+       )
+       (i32.store
+        (get_local $5)
+        (get_local $2)
+       )
+       (i32.store16 offset=4
+        (get_local $5)
         (i32.const 0)
-        (i32.const 120)
-        (i32.const 16)
-        (i32.const 4)
        )
-       (unreachable)
       )
-     )
-     (call $~lib/set/Set<u32>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<u32>#has
-        (get_local $0)
+      (i32.store16 offset=4
+       (get_local $5)
+       (call $~lib/iterator/Iterator<u16>#next|virtual
         (get_local $1)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 18)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-    )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
      )
-    )
-    (br $repeat|1)
-   )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<u32>#get:size
-      (get_local $0)
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $6
+          (i32.ge_u
+           (i32.load16_u offset=4
+            (get_local $5)
+           )
+           (i32.const 50)
+          )
+         )
+         (i32.lt_u
+          (i32.load16_u offset=4
+           (get_local $5)
+          )
+          (i32.const 100)
+         )
+         (get_local $6)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 43)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u16>#has
+         (get_local $0)
+         (i32.load16_u offset=4
+          (get_local $5)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 44)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
      )
-     (i32.const 100)
+     (br $repeat|4)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 20)
-     (i32.const 2)
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 47)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (unreachable)
-   )
-  )
-  (block $break|2
-   (set_local $1
-    (i32.const 0)
    )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (i32.lt_u
-       (get_local $1)
-       (i32.const 50)
+   (block $break|5
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<u16>#__iterator
+      (call $~lib/set/Set<u16>#keys
+       (get_local $0)
       )
      )
     )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<u32>#has
-        (get_local $0)
-        (get_local $1)
-       )
+    (loop $repeat|5
+     (br_if $break|5
+      (call $~lib/iterator/Iterator<u16>#get:done|virtual
+       (get_local $1)
       )
+     )
+     (block
       (block
-       (call $~lib/env/abort
+       (set_local $8
+        (call $~lib/memory/memory.allocate
+         (i32.const 6)
+        )
+       )
+       (i32.store
+        (get_local $8)
+        (get_local $2)
+       )
+       (i32.store16 offset=4
+        (get_local $8)
         (i32.const 0)
-        (i32.const 120)
-        (i32.const 24)
-        (i32.const 4)
        )
-       (unreachable)
       )
-     )
-     (drop
-      (call $~lib/set/Set<u32>#delete
-       (get_local $0)
-       (get_local $1)
+      (i32.store16 offset=4
+       (get_local $8)
+       (call $~lib/iterator/Iterator<u16>#next|virtual
+        (get_local $1)
+       )
       )
      )
-     (if
-      (i32.eqz
+     (block
+      (if
        (i32.eqz
-        (call $~lib/set/Set<u32>#has
+        (call $~lib/set/Set<u16>#has
          (get_local $0)
-         (get_local $1)
+         (i32.load16_u offset=4
+          (get_local $8)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 49)
+         (i32.const 4)
         )
+        (unreachable)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 26)
-        (i32.const 4)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
-       (unreachable)
       )
      )
+     (br $repeat|5)
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
      )
     )
-    (br $repeat|2)
-   )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<u32>#get:size
-      (get_local $0)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 52)
+      (i32.const 2)
      )
-     (i32.const 50)
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 28)
-     (i32.const 2)
+   (block $break|6
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<KeyValue<u16,u16>>#__iterator
+      (call $~lib/set/Set<u16>#entries
+       (get_local $0)
+      )
+     )
     )
-    (unreachable)
-   )
-  )
-  (block $break|3
-   (set_local $1
-    (i32.const 0)
-   )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (i32.lt_u
+    (loop $repeat|6
+     (br_if $break|6
+      (call $~lib/iterator/Iterator<KeyValue<u16,u16>>#get:done|virtual
        (get_local $1)
-       (i32.const 50)
       )
      )
-    )
-    (block
-     (if
-      (i32.eqz
+     (set_local $6
+      (call $~lib/iterator/Iterator<KeyValue<u16,u16>>#next|virtual
+       (get_local $1)
+      )
+     )
+     (block
+      (if
        (i32.eqz
-        (call $~lib/set/Set<u32>#has
-         (get_local $0)
-         (get_local $1)
+        (i32.eq
+         (i32.load16_u
+          (get_local $6)
+         )
+         (i32.load16_u offset=2
+          (get_local $6)
+         )
         )
        )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 54)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 32)
-        (i32.const 4)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
-       (unreachable)
       )
      )
-     (call $~lib/set/Set<u32>#add
+     (br $repeat|6)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 57)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|7
+    (set_local $6
+     (call $~lib/set/Set<u16>#__iterator
       (get_local $0)
-      (get_local $1)
      )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<u32>#has
-        (get_local $0)
-        (get_local $1)
-       )
+    )
+    (loop $repeat|7
+     (br_if $break|7
+      (call $~lib/iterator/Iterator<u16>#get:done|virtual
+       (get_local $6)
       )
+     )
+     (block
       (block
-       (call $~lib/env/abort
+       (set_local $10
+        (call $~lib/memory/memory.allocate
+         (i32.const 6)
+        )
+       )
+       (i32.store
+        (get_local $10)
+        (get_local $2)
+       )
+       (i32.store16 offset=4
+        (get_local $10)
         (i32.const 0)
-        (i32.const 120)
-        (i32.const 34)
-        (i32.const 4)
        )
-       (unreachable)
       )
-     )
-     (drop
-      (call $~lib/set/Set<u32>#delete
-       (get_local $0)
-       (get_local $1)
+      (i32.store16 offset=4
+       (get_local $10)
+       (call $~lib/iterator/Iterator<u16>#next|virtual
+        (get_local $6)
+       )
       )
      )
-     (if
-      (i32.eqz
+     (block
+      (if
        (i32.eqz
-        (call $~lib/set/Set<u32>#has
+        (call $~lib/set/Set<u16>#has
          (get_local $0)
-         (get_local $1)
+         (i32.load16_u offset=4
+          (get_local $10)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 59)
+         (i32.const 4)
         )
+        (unreachable)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 36)
-        (i32.const 4)
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
-       (unreachable)
       )
      )
+     (br $repeat|7)
     )
-    (set_local $1
-     (i32.add
-      (get_local $1)
-      (i32.const 1)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
      )
     )
-    (br $repeat|3)
-   )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<u32>#get:size
-      (get_local $0)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 62)
+      (i32.const 2)
      )
-     (i32.const 50)
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 38)
-     (i32.const 2)
+   (call $~lib/set/Set<u16>#forEach
+    (get_local $0)
+    (block (result i32)
+     (set_local $6
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (i32.store
+      (get_local $6)
+      (i32.const 3)
+     )
+     (i32.store offset=4
+      (get_local $6)
+      (get_local $2)
+     )
+     (get_local $6)
     )
-    (unreachable)
    )
-  )
-  (call $~lib/set/Set<u32>#clear
-   (get_local $0)
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<u32>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
      )
-     (i32.const 0)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 67)
+      (i32.const 2)
+     )
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
+   (call $~lib/set/Set<u16>#clear
+    (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<u16>#get:size
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 71)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (unreachable)
    )
   )
  )
- (func $~lib/set/Set<i64>#clear (; 70 ;) (type $iv) (param $0 i32)
+ (func $~lib/set/Set<i32>#clear (; 81 ;) (type $iv) (param $0 i32)
   (i32.store
    (get_local $0)
    (call $~lib/arraybuffer/ArrayBuffer#constructor
@@ -6764,7 +7359,7 @@
    (get_local $0)
    (call $~lib/arraybuffer/ArrayBuffer#constructor
     (i32.const 0)
-    (i32.const 64)
+    (i32.const 32)
     (i32.const 1)
    )
   )
@@ -6781,9 +7376,9 @@
    (i32.const 0)
   )
  )
- (func $~lib/set/Set<i64>#constructor (; 71 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/set/Set<i32>#constructor (; 82 ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
-  (call $~lib/set/Set<i64>#clear
+  (call $~lib/set/Set<i32>#clear
    (tee_local $0
     (if (result i32)
      (get_local $0)
@@ -6827,99 +7422,30 @@
   )
   (get_local $0)
  )
- (func $~lib/internal/hash/hash64 (; 72 ;) (type $Ii) (param $0 i64) (result i32)
+ (func $~lib/internal/hash/hash32 (; 83 ;) (type $ii) (param $0 i32) (result i32)
   (local $1 i32)
-  (local $2 i32)
-  (local $3 i32)
   (set_local $1
-   (i32.wrap/i64
-    (get_local $0)
-   )
-  )
-  (set_local $2
-   (i32.wrap/i64
-    (i64.shr_u
-     (get_local $0)
-     (i64.const 32)
-    )
-   )
-  )
-  (set_local $3
    (get_global $~lib/internal/hash/FNV_OFFSET)
   )
-  (set_local $3
-   (i32.mul
-    (i32.xor
-     (get_local $3)
-     (i32.and
-      (get_local $1)
-      (i32.const 255)
-     )
-    )
-    (get_global $~lib/internal/hash/FNV_PRIME)
-   )
-  )
-  (set_local $3
-   (i32.mul
-    (i32.xor
-     (get_local $3)
-     (i32.and
-      (i32.shr_u
-       (get_local $1)
-       (i32.const 8)
-      )
-      (i32.const 255)
-     )
-    )
-    (get_global $~lib/internal/hash/FNV_PRIME)
-   )
-  )
-  (set_local $3
-   (i32.mul
-    (i32.xor
-     (get_local $3)
-     (i32.and
-      (i32.shr_u
-       (get_local $1)
-       (i32.const 16)
-      )
-      (i32.const 255)
-     )
-    )
-    (get_global $~lib/internal/hash/FNV_PRIME)
-   )
-  )
-  (set_local $3
-   (i32.mul
-    (i32.xor
-     (get_local $3)
-     (i32.shr_u
-      (get_local $1)
-      (i32.const 24)
-     )
-    )
-    (get_global $~lib/internal/hash/FNV_PRIME)
-   )
-  )
-  (set_local $3
+  (set_local $1
    (i32.mul
     (i32.xor
-     (get_local $3)
+     (get_local $1)
      (i32.and
-      (get_local $2)
+      (get_local $0)
       (i32.const 255)
      )
     )
     (get_global $~lib/internal/hash/FNV_PRIME)
    )
   )
-  (set_local $3
+  (set_local $1
    (i32.mul
     (i32.xor
-     (get_local $3)
+     (get_local $1)
      (i32.and
       (i32.shr_u
-       (get_local $2)
+       (get_local $0)
        (i32.const 8)
       )
       (i32.const 255)
@@ -6928,13 +7454,13 @@
     (get_global $~lib/internal/hash/FNV_PRIME)
    )
   )
-  (set_local $3
+  (set_local $1
    (i32.mul
     (i32.xor
-     (get_local $3)
+     (get_local $1)
      (i32.and
       (i32.shr_u
-       (get_local $2)
+       (get_local $0)
        (i32.const 16)
       )
       (i32.const 255)
@@ -6943,28 +7469,28 @@
     (get_global $~lib/internal/hash/FNV_PRIME)
    )
   )
-  (set_local $3
+  (set_local $1
    (i32.mul
     (i32.xor
-     (get_local $3)
+     (get_local $1)
      (i32.shr_u
-      (get_local $2)
+      (get_local $0)
       (i32.const 24)
      )
     )
     (get_global $~lib/internal/hash/FNV_PRIME)
    )
   )
-  (get_local $3)
+  (get_local $1)
  )
- (func $~lib/internal/hash/hash<i64> (; 73 ;) (type $Ii) (param $0 i64) (result i32)
+ (func $~lib/internal/hash/hash<i32> (; 84 ;) (type $ii) (param $0 i32) (result i32)
   (return
-   (call $~lib/internal/hash/hash64
+   (call $~lib/internal/hash/hash32
     (get_local $0)
    )
   )
  )
- (func $~lib/set/Set<i64>#find (; 74 ;) (type $iIii) (param $0 i32) (param $1 i64) (param $2 i32) (result i32)
+ (func $~lib/set/Set<i32>#find (; 85 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
   (local $3 i32)
   (local $4 i32)
   (set_local $3
@@ -6996,15 +7522,15 @@
          (tee_local $4
           (i32.eqz
            (i32.and
-            (i32.load offset=8
+            (i32.load offset=4
              (get_local $3)
             )
             (get_global $~lib/set/EMPTY)
            )
           )
          )
-         (i64.eq
-          (i64.load
+         (i32.eq
+          (i32.load
            (get_local $3)
           )
           (get_local $1)
@@ -7017,7 +7543,7 @@
        )
        (set_local $3
         (i32.and
-         (i32.load offset=8
+         (i32.load offset=4
           (get_local $3)
          )
          (i32.xor
@@ -7034,19 +7560,19 @@
   )
   (i32.const 0)
  )
- (func $~lib/set/Set<i64>#has (; 75 ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
+ (func $~lib/set/Set<i32>#has (; 86 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (i32.ne
-   (call $~lib/set/Set<i64>#find
+   (call $~lib/set/Set<i32>#find
     (get_local $0)
     (get_local $1)
-    (call $~lib/internal/hash/hash<i64>
+    (call $~lib/internal/hash/hash<i32>
      (get_local $1)
     )
    )
    (i32.const 0)
   )
  )
- (func $~lib/set/Set<i64>#rehash (; 76 ;) (type $iiv) (param $0 i32) (param $1 i32)
+ (func $~lib/set/Set<i32>#rehash (; 87 ;) (type $iiv) (param $0 i32) (param $1 i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
@@ -7056,9 +7582,8 @@
   (local $8 i32)
   (local $9 i32)
   (local $10 i32)
-  (local $11 i64)
+  (local $11 i32)
   (local $12 i32)
-  (local $13 i32)
   (set_local $2
    (i32.add
     (get_local $1)
@@ -7090,8 +7615,8 @@
     (i32.const 0)
     (i32.mul
      (get_local $4)
-     (block $~lib/set/ENTRY_SIZE<i64>|inlined.1 (result i32)
-      (i32.const 16)
+     (block $~lib/set/ENTRY_SIZE<i32>|inlined.1 (result i32)
+      (i32.const 8)
      )
     )
     (i32.const 1)
@@ -7112,8 +7637,8 @@
      (i32.load offset=16
       (get_local $0)
      )
-     (block $~lib/set/ENTRY_SIZE<i64>|inlined.2 (result i32)
-      (i32.const 16)
+     (block $~lib/set/ENTRY_SIZE<i32>|inlined.2 (result i32)
+      (i32.const 8)
      )
     )
    )
@@ -7139,7 +7664,7 @@
        (if
         (i32.eqz
          (i32.and
-          (i32.load offset=8
+          (i32.load offset=4
            (get_local $9)
           )
           (get_global $~lib/set/EMPTY)
@@ -7149,22 +7674,22 @@
          (set_local $10
           (get_local $8)
          )
-         (i64.store
+         (i32.store
           (get_local $10)
-          (i64.load
+          (i32.load
            (get_local $9)
           )
          )
-         (set_local $12
+         (set_local $11
           (i32.and
-           (block $~lib/internal/hash/hash<i64>|inlined.0 (result i32)
+           (block $~lib/internal/hash/hash<i32>|inlined.0 (result i32)
             (set_local $11
-             (i64.load
+             (i32.load
               (get_local $9)
              )
             )
-            (br $~lib/internal/hash/hash<i64>|inlined.0
-             (call $~lib/internal/hash/hash64
+            (br $~lib/internal/hash/hash<i32>|inlined.0
+             (call $~lib/internal/hash/hash32
               (get_local $11)
              )
             )
@@ -7172,30 +7697,30 @@
            (get_local $1)
           )
          )
-         (set_local $13
+         (set_local $12
           (i32.add
            (get_local $3)
            (i32.mul
-            (get_local $12)
+            (get_local $11)
             (get_global $~lib/set/BUCKET_SIZE)
            )
           )
          )
-         (i32.store offset=8
+         (i32.store offset=4
           (get_local $10)
           (i32.load offset=8
-           (get_local $13)
+           (get_local $12)
           )
          )
          (i32.store offset=8
-          (get_local $13)
+          (get_local $12)
           (get_local $8)
          )
          (set_local $8
           (i32.add
            (get_local $8)
-           (block $~lib/set/ENTRY_SIZE<i64>|inlined.3 (result i32)
-            (i32.const 16)
+           (block $~lib/set/ENTRY_SIZE<i32>|inlined.3 (result i32)
+            (i32.const 8)
            )
           )
          )
@@ -7204,8 +7729,8 @@
        (set_local $6
         (i32.add
          (get_local $6)
-         (block $~lib/set/ENTRY_SIZE<i64>|inlined.4 (result i32)
-          (i32.const 16)
+         (block $~lib/set/ENTRY_SIZE<i32>|inlined.4 (result i32)
+          (i32.const 8)
          )
         )
        )
@@ -7238,18 +7763,18 @@
    )
   )
  )
- (func $~lib/set/Set<i64>#add (; 77 ;) (type $iIv) (param $0 i32) (param $1 i64)
+ (func $~lib/set/Set<i32>#add (; 88 ;) (type $iiv) (param $0 i32) (param $1 i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
   (set_local $2
-   (call $~lib/internal/hash/hash<i64>
+   (call $~lib/internal/hash/hash<i32>
     (get_local $1)
    )
   )
   (set_local $3
-   (call $~lib/set/Set<i64>#find
+   (call $~lib/set/Set<i32>#find
     (get_local $0)
     (get_local $1)
     (get_local $2)
@@ -7269,7 +7794,7 @@
        (get_local $0)
       )
      )
-     (call $~lib/set/Set<i64>#rehash
+     (call $~lib/set/Set<i32>#rehash
       (get_local $0)
       (if (result i32)
        (i32.lt_s
@@ -7329,13 +7854,13 @@
         )
         (get_local $5)
        )
-       (block $~lib/set/ENTRY_SIZE<i64>|inlined.5 (result i32)
-        (i32.const 16)
+       (block $~lib/set/ENTRY_SIZE<i32>|inlined.5 (result i32)
+        (i32.const 8)
        )
       )
      )
     )
-    (i64.store
+    (i32.store
      (get_local $3)
      (get_local $1)
     )
@@ -7364,7 +7889,7 @@
       )
      )
     )
-    (i32.store offset=8
+    (i32.store offset=4
      (get_local $3)
      (i32.load offset=8
       (get_local $5)
@@ -7377,23 +7902,23 @@
    )
   )
  )
- (func $~lib/set/Set<i64>#get:size (; 78 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/set/Set<i32>#get:size (; 89 ;) (type $ii) (param $0 i32) (result i32)
   (i32.load offset=20
    (get_local $0)
   )
  )
- (func $~lib/set/Set<i64>#delete (; 79 ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
+ (func $~lib/set/Set<i32>#delete (; 90 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
   (set_local $2
-   (call $~lib/set/Set<i64>#find
+   (call $~lib/set/Set<i32>#find
     (get_local $0)
     (get_local $1)
-    (block $~lib/internal/hash/hash<i64>|inlined.1 (result i32)
-     (br $~lib/internal/hash/hash<i64>|inlined.1
-      (call $~lib/internal/hash/hash64
+    (block $~lib/internal/hash/hash<i32>|inlined.1 (result i32)
+     (br $~lib/internal/hash/hash<i32>|inlined.1
+      (call $~lib/internal/hash/hash32
        (get_local $1)
       )
      )
@@ -7408,10 +7933,10 @@
     (i32.const 0)
    )
   )
-  (i32.store offset=8
+  (i32.store offset=4
    (get_local $2)
    (i32.or
-    (i32.load offset=8
+    (i32.load offset=4
      (get_local $2)
     )
     (get_global $~lib/set/EMPTY)
@@ -7475,1647 +8000,1296 @@
     )
     (get_local $4)
    )
-   (call $~lib/set/Set<i64>#rehash
+   (call $~lib/set/Set<i32>#rehash
     (get_local $0)
     (get_local $3)
    )
   )
   (i32.const 1)
  )
- (func $std/set/test<i64> (; 80 ;) (type $v)
-  (local $0 i32)
-  (local $1 i64)
-  (set_local $0
-   (call $~lib/set/Set<i64>#constructor
-    (i32.const 0)
-   )
-  )
-  (block $break|0
-   (set_local $1
-    (i64.const 0)
-   )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (i64.lt_s
-       (get_local $1)
-       (i64.const 100)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<i64>#has
-         (get_local $0)
-         (get_local $1)
+ (func $~lib/set/Set<i32>#values (; 91 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
         )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 8)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/set/Set<i64>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<i64>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 10)
         (i32.const 4)
        )
-       (unreachable)
+       (i32.const 53)
       )
+      (get_local $2)
      )
     )
-    (set_local $1
-     (i64.add
-      (get_local $1)
-      (i64.const 1)
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<i32>#__iterator (; 92 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<i32>#keys (; 93 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<i32>#values
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<i32>#entries (; 94 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 58)
+      )
+      (get_local $2)
      )
     )
-    (br $repeat|0)
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<i64>#get:size
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<KeyValue<i32,i32>>#__iterator (; 95 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<i32>#__iterator (; 96 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<i32>#values
+   (get_local $0)
+  )
+ )
+ (func $std/set/test<i32>~anonymous|4 (; 97 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (block
+   (if
+    (i32.eqz
+     (i32.eq
       (get_local $0)
+      (get_local $1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 64)
+      (i32.const 4)
      )
-     (i32.const 100)
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 12)
-     (i32.const 2)
+   (i32.store offset=4
+    (get_local $3)
+    (i32.add
+     (i32.load offset=4
+      (get_local $3)
+     )
+     (i32.const 1)
     )
-    (unreachable)
    )
   )
-  (block $break|1
-   (set_local $1
-    (i64.const 50)
+ )
+ (func $~lib/set/Set<i32>#forEach (; 98 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
    )
-   (loop $repeat|1
-    (br_if $break|1
+   (loop $repeat|0
+    (br_if $break|0
      (i32.eqz
-      (i64.lt_s
-       (get_local $1)
-       (i64.const 100)
+      (i32.lt_s
+       (get_local $2)
+       (i32.load offset=16
+        (get_local $0)
+       )
       )
      )
     )
     (block
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<i64>#has
-        (get_local $0)
-        (get_local $1)
+     (set_local $3
+      (i32.add
+       (i32.add
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 16)
-        (i32.const 4)
+       (i32.mul
+        (get_local $2)
+        (block $~lib/set/ENTRY_SIZE<i32>|inlined.6 (result i32)
+         (i32.const 8)
+        )
        )
-       (unreachable)
       )
      )
-     (call $~lib/set/Set<i64>#add
-      (get_local $0)
-      (get_local $1)
-     )
      (if
       (i32.eqz
-       (call $~lib/set/Set<i64>#has
-        (get_local $0)
-        (get_local $1)
+       (i32.and
+        (i32.load offset=4
+         (get_local $3)
+        )
+        (get_global $~lib/set/EMPTY)
        )
       )
       (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 18)
-        (i32.const 4)
+       (set_global $~argc
+        (i32.const 3)
+       )
+       (call_indirect (type $iiiv)
+        (i32.load
+         (get_local $3)
+        )
+        (i32.load
+         (get_local $3)
+        )
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (get_local $1)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
        )
-       (unreachable)
       )
      )
     )
-    (set_local $1
-     (i64.add
-      (get_local $1)
-      (i64.const 1)
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
      )
     )
-    (br $repeat|1)
+    (br $repeat|0)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<i64>#get:size
-      (get_local $0)
-     )
-     (i32.const 100)
-    )
+ )
+ (func $std/set/test<i32> (; 99 ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (set_local $2
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
    )
-   (block
-    (call $~lib/env/abort
+  )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block
+   (set_local $0
+    (call $~lib/set/Set<i32>#constructor
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 20)
-     (i32.const 2)
     )
-    (unreachable)
    )
-  )
-  (block $break|2
-   (set_local $1
-    (i64.const 0)
-   )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (i64.lt_s
-       (get_local $1)
-       (i64.const 50)
-      )
-     )
+   (block $break|0
+    (set_local $1
+     (i32.const 0)
     )
-    (block
-     (if
+    (loop $repeat|0
+     (br_if $break|0
       (i32.eqz
-       (call $~lib/set/Set<i64>#has
-        (get_local $0)
+       (i32.lt_s
         (get_local $1)
+        (i32.const 100)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 24)
-        (i32.const 4)
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 8)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
-     )
-     (drop
-      (call $~lib/set/Set<i64>#delete
+      (call $~lib/set/Set<i32>#add
        (get_local $0)
        (get_local $1)
       )
-     )
-     (if
-      (i32.eqz
+      (if
        (i32.eqz
-        (call $~lib/set/Set<i64>#has
+        (call $~lib/set/Set<i32>#has
          (get_local $0)
          (get_local $1)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 26)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 10)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-    )
-    (set_local $1
-     (i64.add
-      (get_local $1)
-      (i64.const 1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
+     (br $repeat|0)
     )
-    (br $repeat|2)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<i64>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
      )
-     (i32.const 50)
     )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 28)
-     (i32.const 2)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 12)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (unreachable)
-   )
-  )
-  (block $break|3
-   (set_local $1
-    (i64.const 0)
    )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (i64.lt_s
-       (get_local $1)
-       (i64.const 50)
-      )
-     )
+   (block $break|1
+    (set_local $1
+     (i32.const 50)
     )
-    (block
-     (if
+    (loop $repeat|1
+     (br_if $break|1
       (i32.eqz
+       (i32.lt_s
+        (get_local $1)
+        (i32.const 100)
+       )
+      )
+     )
+     (block
+      (if
        (i32.eqz
-        (call $~lib/set/Set<i64>#has
+        (call $~lib/set/Set<i32>#has
          (get_local $0)
          (get_local $1)
         )
        )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 16)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 32)
-        (i32.const 4)
+      (call $~lib/set/Set<i32>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 18)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-     (call $~lib/set/Set<i64>#add
-      (get_local $0)
-      (get_local $1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
-     (if
+     (br $repeat|1)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 20)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|2
+    (set_local $1
+     (i32.const 0)
+    )
+    (loop $repeat|2
+     (br_if $break|2
       (i32.eqz
-       (call $~lib/set/Set<i64>#has
+       (i32.lt_s
+        (get_local $1)
+        (i32.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 24)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/set/Set<i32>#delete
         (get_local $0)
         (get_local $1)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 34)
-        (i32.const 4)
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 26)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-     (drop
-      (call $~lib/set/Set<i64>#delete
-       (get_local $0)
+     (set_local $1
+      (i32.add
        (get_local $1)
+       (i32.const 1)
       )
      )
-     (if
+     (br $repeat|2)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 28)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|3
+    (set_local $1
+     (i32.const 0)
+    )
+    (loop $repeat|3
+     (br_if $break|3
       (i32.eqz
+       (i32.lt_s
+        (get_local $1)
+        (i32.const 50)
+       )
+      )
+     )
+     (block
+      (if
        (i32.eqz
-        (call $~lib/set/Set<i64>#has
+        (i32.eqz
+         (call $~lib/set/Set<i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 32)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/set/Set<i32>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i32>#has
          (get_local $0)
          (get_local $1)
         )
        )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 34)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 36)
-        (i32.const 4)
+      (drop
+       (call $~lib/set/Set<i32>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<i32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 36)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-    )
-    (set_local $1
-     (i64.add
-      (get_local $1)
-      (i64.const 1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
+     (br $repeat|3)
     )
-    (br $repeat|3)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<i64>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<i32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
      )
-     (i32.const 50)
     )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 38)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
-  )
-  (call $~lib/set/Set<i64>#clear
-   (get_local $0)
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<i64>#get:size
-      (get_local $0)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 38)
+      (i32.const 2)
      )
-     (i32.const 0)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
+     (unreachable)
     )
-    (unreachable)
-   )
-  )
- )
- (func $~lib/set/Set<u64>#clear (; 81 ;) (type $iv) (param $0 i32)
-  (i32.store
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 16)
-    (i32.const 0)
-   )
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (i32.sub
-    (get_global $~lib/set/INITIAL_CAPACITY)
-    (i32.const 1)
    )
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
+   (i32.store offset=4
+    (get_local $2)
     (i32.const 0)
-    (i32.const 64)
-    (i32.const 1)
    )
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_global $~lib/set/INITIAL_CAPACITY)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.const 0)
-  )
- )
- (func $~lib/set/Set<u64>#constructor (; 82 ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (call $~lib/set/Set<u64>#clear
-   (tee_local $0
-    (if (result i32)
-     (get_local $0)
-     (get_local $0)
-     (tee_local $0
-      (block (result i32)
-       (set_local $1
+   (block $break|4
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<i32>#__iterator
+      (call $~lib/set/Set<i32>#values
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|4
+     (br_if $break|4
+      (call $~lib/iterator/Iterator<i32>#get:done|virtual
+       (get_local $1)
+      )
+     )
+     (block
+      (block
+       (set_local $5
         (call $~lib/memory/memory.allocate
-         (i32.const 24)
+         (i32.const 8)
         )
        )
        (i32.store
-        (get_local $1)
-        (i32.const 0)
+        (get_local $5)
+        (get_local $2)
        )
        (i32.store offset=4
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=8
-        (get_local $1)
+        (get_local $5)
         (i32.const 0)
        )
-       (i32.store offset=12
+      )
+      (i32.store offset=4
+       (get_local $5)
+       (call $~lib/iterator/Iterator<i32>#next|virtual
         (get_local $1)
-        (i32.const 0)
        )
-       (i32.store offset=16
-        (get_local $1)
-        (i32.const 0)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $6
+          (i32.ge_s
+           (i32.load offset=4
+            (get_local $5)
+           )
+           (i32.const 50)
+          )
+         )
+         (i32.lt_s
+          (i32.load offset=4
+           (get_local $5)
+          )
+          (i32.const 100)
+         )
+         (get_local $6)
+        )
        )
-       (i32.store offset=20
-        (get_local $1)
-        (i32.const 0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 43)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i32>#has
+         (get_local $0)
+         (i32.load offset=4
+          (get_local $5)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 44)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
-       (get_local $1)
       )
      )
+     (br $repeat|4)
     )
    )
-  )
-  (get_local $0)
- )
- (func $~lib/internal/hash/hash<u64> (; 83 ;) (type $Ii) (param $0 i64) (result i32)
-  (return
-   (call $~lib/internal/hash/hash64
-    (get_local $0)
-   )
-  )
- )
- (func $~lib/set/Set<u64>#find (; 84 ;) (type $iIii) (param $0 i32) (param $1 i64) (param $2 i32) (result i32)
-  (local $3 i32)
-  (local $4 i32)
-  (set_local $3
-   (i32.load offset=8
-    (i32.add
-     (i32.load
-      (get_local $0)
-     )
-     (i32.mul
-      (i32.and
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
        (get_local $2)
-       (i32.load offset=4
-        (get_local $0)
-       )
       )
-      (get_global $~lib/set/BUCKET_SIZE)
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 47)
+      (i32.const 2)
      )
+     (unreachable)
     )
    )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (get_local $3)
+   (block $break|5
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<i32>#__iterator
+      (call $~lib/set/Set<i32>#keys
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|5
+     (br_if $break|5
+      (call $~lib/iterator/Iterator<i32>#get:done|virtual
+       (get_local $1)
+      )
+     )
      (block
       (block
-       (if
-        (if (result i32)
-         (tee_local $4
-          (i32.eqz
-           (i32.and
-            (i32.load offset=8
-             (get_local $3)
-            )
-            (get_global $~lib/set/EMPTY)
-           )
-          )
-         )
-         (i64.eq
-          (i64.load
-           (get_local $3)
-          )
-          (get_local $1)
+       (set_local $8
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.store
+        (get_local $8)
+        (get_local $2)
+       )
+       (i32.store offset=4
+        (get_local $8)
+        (i32.const 0)
+       )
+      )
+      (i32.store offset=4
+       (get_local $8)
+       (call $~lib/iterator/Iterator<i32>#next|virtual
+        (get_local $1)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i32>#has
+         (get_local $0)
+         (i32.load offset=4
+          (get_local $8)
          )
-         (get_local $4)
         )
-        (return
-         (get_local $3)
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 49)
+         (i32.const 4)
         )
+        (unreachable)
        )
-       (set_local $3
-        (i32.and
-         (i32.load offset=8
-          (get_local $3)
-         )
-         (i32.xor
-          (get_global $~lib/set/EMPTY)
-          (i32.const -1)
-         )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
         )
+        (i32.const 1)
        )
       )
-      (br $continue|0)
      )
+     (br $repeat|5)
     )
    )
-  )
-  (i32.const 0)
- )
- (func $~lib/set/Set<u64>#has (; 85 ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
-  (i32.ne
-   (call $~lib/set/Set<u64>#find
-    (get_local $0)
-    (get_local $1)
-    (call $~lib/internal/hash/hash<u64>
-     (get_local $1)
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
     )
-   )
-   (i32.const 0)
-  )
- )
- (func $~lib/set/Set<u64>#rehash (; 86 ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (local $9 i32)
-  (local $10 i32)
-  (local $11 i64)
-  (local $12 i32)
-  (local $13 i32)
-  (set_local $2
-   (i32.add
-    (get_local $1)
-    (i32.const 1)
-   )
-  )
-  (set_local $3
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $2)
-     (get_global $~lib/set/BUCKET_SIZE)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 52)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (i32.const 0)
    )
-  )
-  (set_local $4
-   (i32.trunc_s/f64
-    (f64.mul
-     (f64.convert_s/i32
-      (get_local $2)
+   (block $break|6
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<KeyValue<i32,i32>>#__iterator
+      (call $~lib/set/Set<i32>#entries
+       (get_local $0)
+      )
      )
-     (get_global $~lib/set/FILL_FACTOR)
     )
-   )
-  )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $4)
-     (block $~lib/set/ENTRY_SIZE<u64>|inlined.1 (result i32)
-      (i32.const 16)
+    (loop $repeat|6
+     (br_if $break|6
+      (call $~lib/iterator/Iterator<KeyValue<i32,i32>>#get:done|virtual
+       (get_local $1)
+      )
+     )
+     (set_local $6
+      (call $~lib/iterator/Iterator<KeyValue<i32,i32>>#next|virtual
+       (get_local $1)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load
+          (get_local $6)
+         )
+         (i32.load offset=4
+          (get_local $6)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 54)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
      )
+     (br $repeat|6)
     )
-    (i32.const 1)
    )
-  )
-  (set_local $6
-   (i32.add
-    (i32.load offset=8
-     (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 57)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
    )
-  )
-  (set_local $7
-   (i32.add
-    (get_local $6)
-    (i32.mul
-     (i32.load offset=16
+   (block $break|7
+    (set_local $6
+     (call $~lib/set/Set<i32>#__iterator
       (get_local $0)
      )
-     (block $~lib/set/ENTRY_SIZE<u64>|inlined.2 (result i32)
-      (i32.const 16)
-     )
     )
-   )
-  )
-  (set_local $8
-   (i32.add
-    (get_local $5)
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
-   )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (i32.ne
-      (get_local $6)
-      (get_local $7)
+    (loop $repeat|7
+     (br_if $break|7
+      (call $~lib/iterator/Iterator<i32>#get:done|virtual
+       (get_local $6)
+      )
      )
      (block
       (block
-       (set_local $9
-        (get_local $6)
+       (set_local $10
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
        )
-       (if
-        (i32.eqz
-         (i32.and
-          (i32.load offset=8
-           (get_local $9)
-          )
-          (get_global $~lib/set/EMPTY)
-         )
-        )
-        (block
-         (set_local $10
-          (get_local $8)
-         )
-         (i64.store
-          (get_local $10)
-          (i64.load
-           (get_local $9)
-          )
-         )
-         (set_local $12
-          (i32.and
-           (block $~lib/internal/hash/hash<u64>|inlined.0 (result i32)
-            (set_local $11
-             (i64.load
-              (get_local $9)
-             )
-            )
-            (br $~lib/internal/hash/hash<u64>|inlined.0
-             (call $~lib/internal/hash/hash64
-              (get_local $11)
-             )
-            )
-           )
-           (get_local $1)
-          )
-         )
-         (set_local $13
-          (i32.add
-           (get_local $3)
-           (i32.mul
-            (get_local $12)
-            (get_global $~lib/set/BUCKET_SIZE)
-           )
-          )
-         )
-         (i32.store offset=8
-          (get_local $10)
-          (i32.load offset=8
-           (get_local $13)
-          )
-         )
-         (i32.store offset=8
-          (get_local $13)
-          (get_local $8)
-         )
-         (set_local $8
-          (i32.add
-           (get_local $8)
-           (block $~lib/set/ENTRY_SIZE<u64>|inlined.3 (result i32)
-            (i32.const 16)
-           )
-          )
-         )
-        )
+       (i32.store
+        (get_local $10)
+        (get_local $2)
        )
-       (set_local $6
-        (i32.add
-         (get_local $6)
-         (block $~lib/set/ENTRY_SIZE<u64>|inlined.4 (result i32)
-          (i32.const 16)
-         )
-        )
+       (i32.store offset=4
+        (get_local $10)
+        (i32.const 0)
        )
       )
-      (br $continue|0)
-     )
-    )
-   )
-  )
-  (i32.store
-   (get_local $0)
-   (get_local $3)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $4)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
-   )
-  )
- )
- (func $~lib/set/Set<u64>#add (; 87 ;) (type $iIv) (param $0 i32) (param $1 i64)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (set_local $2
-   (call $~lib/internal/hash/hash<u64>
-    (get_local $1)
-   )
-  )
-  (set_local $3
-   (call $~lib/set/Set<u64>#find
-    (get_local $0)
-    (get_local $1)
-    (get_local $2)
-   )
-  )
-  (if
-   (i32.eqz
-    (get_local $3)
-   )
-   (block
-    (if
-     (i32.eq
-      (i32.load offset=16
-       (get_local $0)
-      )
-      (i32.load offset=12
-       (get_local $0)
+      (i32.store offset=4
+       (get_local $10)
+       (call $~lib/iterator/Iterator<i32>#next|virtual
+        (get_local $6)
+       )
       )
      )
-     (call $~lib/set/Set<u64>#rehash
-      (get_local $0)
-      (if (result i32)
-       (i32.lt_s
-        (i32.load offset=20
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i32>#has
          (get_local $0)
-        )
-        (i32.trunc_s/f64
-         (f64.mul
-          (f64.convert_s/i32
-           (i32.load offset=12
-            (get_local $0)
-           )
-          )
-          (get_global $~lib/set/FREE_FACTOR)
+         (i32.load offset=4
+          (get_local $10)
          )
         )
        )
-       (i32.load offset=4
-        (get_local $0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 59)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (i32.or
-        (i32.shl
-         (i32.load offset=4
-          (get_local $0)
-         )
-         (i32.const 1)
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
         )
         (i32.const 1)
        )
       )
      )
+     (br $repeat|7)
     )
-    (set_local $4
-     (i32.load offset=8
-      (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
      )
     )
-    (set_local $3
-     (i32.add
-      (i32.add
-       (get_local $4)
-       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
-      )
-      (i32.mul
-       (block (result i32)
-        (set_local $5
-         (i32.load offset=16
-          (get_local $0)
-         )
-        )
-        (i32.store offset=16
-         (get_local $0)
-         (i32.add
-          (get_local $5)
-          (i32.const 1)
-         )
-        )
-        (get_local $5)
-       )
-       (block $~lib/set/ENTRY_SIZE<u64>|inlined.5 (result i32)
-        (i32.const 16)
-       )
-      )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 62)
+      (i32.const 2)
      )
+     (unreachable)
     )
-    (i64.store
-     (get_local $3)
-     (get_local $1)
+   )
+   (call $~lib/set/Set<i32>#forEach
+    (get_local $0)
+    (block (result i32)
+     (set_local $6
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (i32.store
+      (get_local $6)
+      (i32.const 4)
+     )
+     (i32.store offset=4
+      (get_local $6)
+      (get_local $2)
+     )
+     (get_local $6)
     )
-    (i32.store offset=20
-     (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
       )
-      (i32.const 1)
+      (i32.const 50)
      )
     )
-    (set_local $5
-     (i32.add
-      (i32.load
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 67)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/set/Set<i32>#clear
+    (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<i32>#get:size
        (get_local $0)
       )
-      (i32.mul
-       (i32.and
-        (get_local $2)
-        (i32.load offset=4
-         (get_local $0)
-        )
-       )
-       (get_global $~lib/set/BUCKET_SIZE)
-      )
+      (i32.const 0)
      )
     )
-    (i32.store offset=8
-     (get_local $3)
-     (i32.load offset=8
-      (get_local $5)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 71)
+      (i32.const 2)
      )
-    )
-    (i32.store offset=8
-     (get_local $5)
-     (get_local $3)
+     (unreachable)
     )
    )
   )
  )
- (func $~lib/set/Set<u64>#get:size (; 88 ;) (type $ii) (param $0 i32) (result i32)
-  (i32.load offset=20
+ (func $~lib/set/Set<u32>#clear (; 100 ;) (type $iv) (param $0 i32)
+  (i32.store
    (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 16)
+    (i32.const 0)
+   )
   )
- )
- (func $~lib/set/Set<u64>#delete (; 89 ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (set_local $2
-   (call $~lib/set/Set<u64>#find
-    (get_local $0)
-    (get_local $1)
-    (block $~lib/internal/hash/hash<u64>|inlined.1 (result i32)
-     (br $~lib/internal/hash/hash<u64>|inlined.1
-      (call $~lib/internal/hash/hash64
-       (get_local $1)
-      )
-     )
-    )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.sub
+    (get_global $~lib/set/INITIAL_CAPACITY)
+    (i32.const 1)
    )
   )
-  (if
-   (i32.eqz
-    (get_local $2)
-   )
-   (return
+  (i32.store offset=8
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
     (i32.const 0)
+    (i32.const 32)
+    (i32.const 1)
    )
   )
-  (i32.store offset=8
-   (get_local $2)
-   (i32.or
-    (i32.load offset=8
-     (get_local $2)
-    )
-    (get_global $~lib/set/EMPTY)
-   )
+  (i32.store offset=12
+   (get_local $0)
+   (get_global $~lib/set/INITIAL_CAPACITY)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.const 0)
   )
   (i32.store offset=20
    (get_local $0)
-   (i32.sub
-    (i32.load offset=20
-     (get_local $0)
-    )
-    (i32.const 1)
-   )
+   (i32.const 0)
   )
-  (set_local $3
-   (i32.shr_u
-    (i32.load offset=4
+ )
+ (func $~lib/set/Set<u32>#constructor (; 101 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/set/Set<u32>#clear
+   (tee_local $0
+    (if (result i32)
      (get_local $0)
-    )
-    (i32.const 1)
-   )
-  )
-  (if
-   (if (result i32)
-    (tee_local $4
-     (i32.ge_u
-      (i32.add
-       (get_local $3)
-       (i32.const 1)
-      )
-      (select
-       (tee_local $4
-        (get_global $~lib/set/INITIAL_CAPACITY)
-       )
-       (tee_local $5
-        (i32.load offset=20
-         (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $1
+        (call $~lib/memory/memory.allocate
+         (i32.const 24)
         )
        )
-       (i32.gt_u
-        (get_local $4)
-        (get_local $5)
+       (i32.store
+        (get_local $1)
+        (i32.const 0)
        )
-      )
-     )
-    )
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $0)
-     )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $0)
-        )
+       (i32.store offset=4
+        (get_local $1)
+        (i32.const 0)
        )
-       (get_global $~lib/set/FREE_FACTOR)
-      )
-     )
-    )
-    (get_local $4)
-   )
-   (call $~lib/set/Set<u64>#rehash
-    (get_local $0)
-    (get_local $3)
-   )
-  )
-  (i32.const 1)
- )
- (func $std/set/test<u64> (; 90 ;) (type $v)
-  (local $0 i32)
-  (local $1 i64)
-  (set_local $0
-   (call $~lib/set/Set<u64>#constructor
-    (i32.const 0)
-   )
-  )
-  (block $break|0
-   (set_local $1
-    (i64.const 0)
-   )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (i64.lt_u
-       (get_local $1)
-       (i64.const 100)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<u64>#has
-         (get_local $0)
-         (get_local $1)
-        )
+       (i32.store offset=8
+        (get_local $1)
+        (i32.const 0)
        )
-      )
-      (block
-       (call $~lib/env/abort
+       (i32.store offset=12
+        (get_local $1)
         (i32.const 0)
-        (i32.const 120)
-        (i32.const 8)
-        (i32.const 4)
        )
-       (unreachable)
-      )
-     )
-     (call $~lib/set/Set<u64>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<u64>#has
-        (get_local $0)
+       (i32.store offset=16
         (get_local $1)
+        (i32.const 0)
        )
-      )
-      (block
-       (call $~lib/env/abort
+       (i32.store offset=20
+        (get_local $1)
         (i32.const 0)
-        (i32.const 120)
-        (i32.const 10)
-        (i32.const 4)
        )
-       (unreachable)
+       (get_local $1)
       )
      )
     )
-    (set_local $1
-     (i64.add
-      (get_local $1)
-      (i64.const 1)
-     )
-    )
-    (br $repeat|0)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<u64>#get:size
-      (get_local $0)
-     )
-     (i32.const 100)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 12)
-     (i32.const 2)
-    )
-    (unreachable)
+  (get_local $0)
+ )
+ (func $~lib/internal/hash/hash<u32> (; 102 ;) (type $ii) (param $0 i32) (result i32)
+  (return
+   (call $~lib/internal/hash/hash32
+    (get_local $0)
    )
   )
-  (block $break|1
-   (set_local $1
-    (i64.const 50)
-   )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.eqz
-      (i64.lt_u
-       (get_local $1)
-       (i64.const 100)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<u64>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 16)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/set/Set<u64>#add
+ )
+ (func $~lib/set/Set<u32>#find (; 103 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load offset=8
+    (i32.add
+     (i32.load
       (get_local $0)
-      (get_local $1)
      )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<u64>#has
+     (i32.mul
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
         (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 18)
-        (i32.const 4)
        )
-       (unreachable)
       )
+      (get_global $~lib/set/BUCKET_SIZE)
      )
     )
-    (set_local $1
-     (i64.add
-      (get_local $1)
-      (i64.const 1)
-     )
-    )
-    (br $repeat|1)
-   )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<u64>#get:size
-      (get_local $0)
-     )
-     (i32.const 100)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 20)
-     (i32.const 2)
-    )
-    (unreachable)
    )
   )
-  (block $break|2
-   (set_local $1
-    (i64.const 0)
-   )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (i64.lt_u
-       (get_local $1)
-       (i64.const 50)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<u64>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (get_local $3)
+     (block
       (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 24)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (drop
-      (call $~lib/set/Set<u64>#delete
-       (get_local $0)
-       (get_local $1)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<u64>#has
-         (get_local $0)
-         (get_local $1)
+       (if
+        (if (result i32)
+         (tee_local $4
+          (i32.eqz
+           (i32.and
+            (i32.load offset=4
+             (get_local $3)
+            )
+            (get_global $~lib/set/EMPTY)
+           )
+          )
+         )
+         (i32.eq
+          (i32.load
+           (get_local $3)
+          )
+          (get_local $1)
+         )
+         (get_local $4)
+        )
+        (return
+         (get_local $3)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 26)
-        (i32.const 4)
+       (set_local $3
+        (i32.and
+         (i32.load offset=4
+          (get_local $3)
+         )
+         (i32.xor
+          (get_global $~lib/set/EMPTY)
+          (i32.const -1)
+         )
+        )
        )
-       (unreachable)
       )
+      (br $continue|0)
      )
     )
-    (set_local $1
-     (i64.add
-      (get_local $1)
-      (i64.const 1)
-     )
-    )
-    (br $repeat|2)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<u64>#get:size
-      (get_local $0)
-     )
-     (i32.const 50)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 28)
-     (i32.const 2)
+  (i32.const 0)
+ )
+ (func $~lib/set/Set<u32>#has (; 104 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.ne
+   (call $~lib/set/Set<u32>#find
+    (get_local $0)
+    (get_local $1)
+    (call $~lib/internal/hash/hash<u32>
+     (get_local $1)
     )
-    (unreachable)
    )
+   (i32.const 0)
   )
-  (block $break|3
-   (set_local $1
-    (i64.const 0)
+ )
+ (func $~lib/set/Set<u32>#rehash (; 105 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (set_local $2
+   (i32.add
+    (get_local $1)
+    (i32.const 1)
    )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (i64.lt_u
-       (get_local $1)
-       (i64.const 50)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<u64>#has
-         (get_local $0)
-         (get_local $1)
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 32)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/set/Set<u64>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<u64>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 34)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (drop
-      (call $~lib/set/Set<u64>#delete
-       (get_local $0)
-       (get_local $1)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<u64>#has
-         (get_local $0)
-         (get_local $1)
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 36)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
+  )
+  (set_local $3
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $2)
+     (get_global $~lib/set/BUCKET_SIZE)
     )
-    (set_local $1
-     (i64.add
-      (get_local $1)
-      (i64.const 1)
+    (i32.const 0)
+   )
+  )
+  (set_local $4
+   (i32.trunc_s/f64
+    (f64.mul
+     (f64.convert_s/i32
+      (get_local $2)
      )
+     (get_global $~lib/set/FILL_FACTOR)
     )
-    (br $repeat|3)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<u64>#get:size
-      (get_local $0)
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $4)
+     (block $~lib/set/ENTRY_SIZE<u32>|inlined.1 (result i32)
+      (i32.const 8)
      )
-     (i32.const 50)
     )
+    (i32.const 1)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 38)
-     (i32.const 2)
+  )
+  (set_local $6
+   (i32.add
+    (i32.load offset=8
+     (get_local $0)
     )
-    (unreachable)
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
    )
   )
-  (call $~lib/set/Set<u64>#clear
-   (get_local $0)
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<u64>#get:size
+  (set_local $7
+   (i32.add
+    (get_local $6)
+    (i32.mul
+     (i32.load offset=16
       (get_local $0)
      )
-     (i32.const 0)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
+     (block $~lib/set/ENTRY_SIZE<u32>|inlined.2 (result i32)
+      (i32.const 8)
+     )
     )
-    (unreachable)
-   )
-  )
- )
- (func $~lib/set/Set<f32>#clear (; 91 ;) (type $iv) (param $0 i32)
-  (i32.store
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 16)
-    (i32.const 0)
-   )
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (i32.sub
-    (get_global $~lib/set/INITIAL_CAPACITY)
-    (i32.const 1)
    )
   )
-  (i32.store offset=8
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 32)
-    (i32.const 1)
-   )
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_global $~lib/set/INITIAL_CAPACITY)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.const 0)
-  )
- )
- (func $~lib/set/Set<f32>#constructor (; 92 ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (call $~lib/set/Set<f32>#clear
-   (tee_local $0
-    (if (result i32)
-     (get_local $0)
-     (get_local $0)
-     (tee_local $0
-      (block (result i32)
-       (set_local $1
-        (call $~lib/memory/memory.allocate
-         (i32.const 24)
-        )
-       )
-       (i32.store
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=4
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=8
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=12
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=16
-        (get_local $1)
-        (i32.const 0)
-       )
-       (i32.store offset=20
-        (get_local $1)
-        (i32.const 0)
-       )
-       (get_local $1)
-      )
-     )
-    )
-   )
-  )
-  (get_local $0)
- )
- (func $~lib/internal/hash/hash<f32> (; 93 ;) (type $fi) (param $0 f32) (result i32)
-  (return
-   (call $~lib/internal/hash/hash32
-    (i32.reinterpret/f32
-     (get_local $0)
-    )
-   )
-  )
- )
- (func $~lib/set/Set<f32>#find (; 94 ;) (type $ifii) (param $0 i32) (param $1 f32) (param $2 i32) (result i32)
-  (local $3 i32)
-  (local $4 i32)
-  (set_local $3
-   (i32.load offset=8
-    (i32.add
-     (i32.load
-      (get_local $0)
-     )
-     (i32.mul
-      (i32.and
-       (get_local $2)
-       (i32.load offset=4
-        (get_local $0)
-       )
-      )
-      (get_global $~lib/set/BUCKET_SIZE)
-     )
-    )
-   )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (get_local $3)
-     (block
-      (block
-       (if
-        (if (result i32)
-         (tee_local $4
-          (i32.eqz
-           (i32.and
-            (i32.load offset=4
-             (get_local $3)
-            )
-            (get_global $~lib/set/EMPTY)
-           )
-          )
-         )
-         (f32.eq
-          (f32.load
-           (get_local $3)
-          )
-          (get_local $1)
-         )
-         (get_local $4)
-        )
-        (return
-         (get_local $3)
-        )
-       )
-       (set_local $3
-        (i32.and
-         (i32.load offset=4
-          (get_local $3)
-         )
-         (i32.xor
-          (get_global $~lib/set/EMPTY)
-          (i32.const -1)
-         )
-        )
-       )
-      )
-      (br $continue|0)
-     )
-    )
-   )
-  )
-  (i32.const 0)
- )
- (func $~lib/set/Set<f32>#has (; 95 ;) (type $ifi) (param $0 i32) (param $1 f32) (result i32)
-  (i32.ne
-   (call $~lib/set/Set<f32>#find
-    (get_local $0)
-    (get_local $1)
-    (call $~lib/internal/hash/hash<f32>
-     (get_local $1)
-    )
-   )
-   (i32.const 0)
-  )
- )
- (func $~lib/set/Set<f32>#rehash (; 96 ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (local $9 i32)
-  (local $10 i32)
-  (local $11 f32)
-  (local $12 i32)
-  (local $13 i32)
-  (set_local $2
-   (i32.add
-    (get_local $1)
-    (i32.const 1)
-   )
-  )
-  (set_local $3
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $2)
-     (get_global $~lib/set/BUCKET_SIZE)
-    )
-    (i32.const 0)
-   )
-  )
-  (set_local $4
-   (i32.trunc_s/f64
-    (f64.mul
-     (f64.convert_s/i32
-      (get_local $2)
-     )
-     (get_global $~lib/set/FILL_FACTOR)
-    )
-   )
-  )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $4)
-     (block $~lib/set/ENTRY_SIZE<f32>|inlined.1 (result i32)
-      (i32.const 8)
-     )
-    )
-    (i32.const 1)
-   )
-  )
-  (set_local $6
-   (i32.add
-    (i32.load offset=8
-     (get_local $0)
-    )
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
-   )
-  )
-  (set_local $7
-   (i32.add
-    (get_local $6)
-    (i32.mul
-     (i32.load offset=16
-      (get_local $0)
-     )
-     (block $~lib/set/ENTRY_SIZE<f32>|inlined.2 (result i32)
-      (i32.const 8)
-     )
-    )
-   )
-  )
-  (set_local $8
-   (i32.add
-    (get_local $5)
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+  (set_local $8
+   (i32.add
+    (get_local $5)
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
    )
   )
   (block $break|0
@@ -9143,36 +9317,34 @@
          (set_local $10
           (get_local $8)
          )
-         (f32.store
+         (i32.store
           (get_local $10)
-          (f32.load
+          (i32.load
            (get_local $9)
           )
          )
-         (set_local $12
+         (set_local $11
           (i32.and
-           (block $~lib/internal/hash/hash<f32>|inlined.0 (result i32)
+           (block $~lib/internal/hash/hash<u32>|inlined.0 (result i32)
             (set_local $11
-             (f32.load
+             (i32.load
               (get_local $9)
              )
             )
-            (br $~lib/internal/hash/hash<f32>|inlined.0
+            (br $~lib/internal/hash/hash<u32>|inlined.0
              (call $~lib/internal/hash/hash32
-              (i32.reinterpret/f32
-               (get_local $11)
-              )
+              (get_local $11)
              )
             )
            )
            (get_local $1)
           )
          )
-         (set_local $13
+         (set_local $12
           (i32.add
            (get_local $3)
            (i32.mul
-            (get_local $12)
+            (get_local $11)
             (get_global $~lib/set/BUCKET_SIZE)
            )
           )
@@ -9180,17 +9352,17 @@
          (i32.store offset=4
           (get_local $10)
           (i32.load offset=8
-           (get_local $13)
+           (get_local $12)
           )
          )
          (i32.store offset=8
-          (get_local $13)
+          (get_local $12)
           (get_local $8)
          )
          (set_local $8
           (i32.add
            (get_local $8)
-           (block $~lib/set/ENTRY_SIZE<f32>|inlined.3 (result i32)
+           (block $~lib/set/ENTRY_SIZE<u32>|inlined.3 (result i32)
             (i32.const 8)
            )
           )
@@ -9200,7 +9372,7 @@
        (set_local $6
         (i32.add
          (get_local $6)
-         (block $~lib/set/ENTRY_SIZE<f32>|inlined.4 (result i32)
+         (block $~lib/set/ENTRY_SIZE<u32>|inlined.4 (result i32)
           (i32.const 8)
          )
         )
@@ -9234,18 +9406,18 @@
    )
   )
  )
- (func $~lib/set/Set<f32>#add (; 97 ;) (type $ifv) (param $0 i32) (param $1 f32)
+ (func $~lib/set/Set<u32>#add (; 106 ;) (type $iiv) (param $0 i32) (param $1 i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
   (set_local $2
-   (call $~lib/internal/hash/hash<f32>
+   (call $~lib/internal/hash/hash<u32>
     (get_local $1)
    )
   )
   (set_local $3
-   (call $~lib/set/Set<f32>#find
+   (call $~lib/set/Set<u32>#find
     (get_local $0)
     (get_local $1)
     (get_local $2)
@@ -9265,7 +9437,7 @@
        (get_local $0)
       )
      )
-     (call $~lib/set/Set<f32>#rehash
+     (call $~lib/set/Set<u32>#rehash
       (get_local $0)
       (if (result i32)
        (i32.lt_s
@@ -9325,13 +9497,13 @@
         )
         (get_local $5)
        )
-       (block $~lib/set/ENTRY_SIZE<f32>|inlined.5 (result i32)
+       (block $~lib/set/ENTRY_SIZE<u32>|inlined.5 (result i32)
         (i32.const 8)
        )
       )
      )
     )
-    (f32.store
+    (i32.store
      (get_local $3)
      (get_local $1)
     )
@@ -9373,26 +9545,24 @@
    )
   )
  )
- (func $~lib/set/Set<f32>#get:size (; 98 ;) (type $ii) (param $0 i32) (result i32)
+ (func $~lib/set/Set<u32>#get:size (; 107 ;) (type $ii) (param $0 i32) (result i32)
   (i32.load offset=20
    (get_local $0)
   )
  )
- (func $~lib/set/Set<f32>#delete (; 99 ;) (type $ifi) (param $0 i32) (param $1 f32) (result i32)
+ (func $~lib/set/Set<u32>#delete (; 108 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
   (set_local $2
-   (call $~lib/set/Set<f32>#find
+   (call $~lib/set/Set<u32>#find
     (get_local $0)
     (get_local $1)
-    (block $~lib/internal/hash/hash<f32>|inlined.1 (result i32)
-     (br $~lib/internal/hash/hash<f32>|inlined.1
+    (block $~lib/internal/hash/hash<u32>|inlined.1 (result i32)
+     (br $~lib/internal/hash/hash<u32>|inlined.1
       (call $~lib/internal/hash/hash32
-       (i32.reinterpret/f32
-        (get_local $1)
-       )
+       (get_local $1)
       )
      )
     )
@@ -9473,1404 +9643,11782 @@
     )
     (get_local $4)
    )
-   (call $~lib/set/Set<f32>#rehash
+   (call $~lib/set/Set<u32>#rehash
     (get_local $0)
     (get_local $3)
    )
   )
   (i32.const 1)
  )
- (func $std/set/test<f32> (; 100 ;) (type $v)
-  (local $0 i32)
-  (local $1 f32)
-  (set_local $0
-   (call $~lib/set/Set<f32>#constructor
-    (i32.const 0)
-   )
-  )
-  (block $break|0
-   (set_local $1
-    (f32.const 0)
-   )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (f32.lt
-       (get_local $1)
-       (f32.const 100)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<f32>#has
-         (get_local $0)
-         (get_local $1)
+ (func $~lib/set/Set<u32>#values (; 109 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
         )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 8)
         (i32.const 4)
        )
-       (unreachable)
+       (i32.const 64)
       )
+      (get_local $2)
      )
-     (call $~lib/set/Set<f32>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<f32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 10)
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<u32>#__iterator (; 110 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<u32>#keys (; 111 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<u32>#values
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<u32>#entries (; 112 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
         (i32.const 4)
        )
-       (unreachable)
+       (i32.const 69)
       )
+      (get_local $2)
      )
     )
-    (set_local $1
-     (f32.add
-      (get_local $1)
-      (f32.const 1)
-     )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
     )
-    (br $repeat|0)
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<f32>#get:size
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<KeyValue<u32,u32>>#__iterator (; 113 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<u32>#__iterator (; 114 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<u32>#values
+   (get_local $0)
+  )
+ )
+ (func $std/set/test<u32>~anonymous|5 (; 115 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (block
+   (if
+    (i32.eqz
+     (i32.eq
       (get_local $0)
+      (get_local $1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 64)
+      (i32.const 4)
      )
-     (i32.const 100)
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 12)
-     (i32.const 2)
+   (i32.store offset=4
+    (get_local $3)
+    (i32.add
+     (i32.load offset=4
+      (get_local $3)
+     )
+     (i32.const 1)
     )
-    (unreachable)
    )
   )
-  (block $break|1
-   (set_local $1
-    (f32.const 50)
+ )
+ (func $~lib/set/Set<u32>#forEach (; 116 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
    )
-   (loop $repeat|1
-    (br_if $break|1
+   (loop $repeat|0
+    (br_if $break|0
      (i32.eqz
-      (f32.lt
-       (get_local $1)
-       (f32.const 100)
+      (i32.lt_s
+       (get_local $2)
+       (i32.load offset=16
+        (get_local $0)
+       )
       )
      )
     )
     (block
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<f32>#has
-        (get_local $0)
-        (get_local $1)
+     (set_local $3
+      (i32.add
+       (i32.add
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 16)
-        (i32.const 4)
+       (i32.mul
+        (get_local $2)
+        (block $~lib/set/ENTRY_SIZE<u32>|inlined.6 (result i32)
+         (i32.const 8)
+        )
        )
-       (unreachable)
       )
      )
-     (call $~lib/set/Set<f32>#add
-      (get_local $0)
-      (get_local $1)
-     )
      (if
       (i32.eqz
-       (call $~lib/set/Set<f32>#has
-        (get_local $0)
-        (get_local $1)
+       (i32.and
+        (i32.load offset=4
+         (get_local $3)
+        )
+        (get_global $~lib/set/EMPTY)
        )
       )
       (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 18)
-        (i32.const 4)
+       (set_global $~argc
+        (i32.const 3)
+       )
+       (call_indirect (type $iiiv)
+        (i32.load
+         (get_local $3)
+        )
+        (i32.load
+         (get_local $3)
+        )
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (get_local $1)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
        )
-       (unreachable)
       )
      )
     )
-    (set_local $1
-     (f32.add
-      (get_local $1)
-      (f32.const 1)
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
      )
     )
-    (br $repeat|1)
+    (br $repeat|0)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<f32>#get:size
-      (get_local $0)
-     )
-     (i32.const 100)
-    )
+ )
+ (func $std/set/test<u32> (; 117 ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (set_local $2
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
    )
-   (block
-    (call $~lib/env/abort
+  )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block
+   (set_local $0
+    (call $~lib/set/Set<u32>#constructor
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 20)
-     (i32.const 2)
     )
-    (unreachable)
-   )
-  )
-  (block $break|2
-   (set_local $1
-    (f32.const 0)
    )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (f32.lt
-       (get_local $1)
-       (f32.const 50)
-      )
-     )
+   (block $break|0
+    (set_local $1
+     (i32.const 0)
     )
-    (block
-     (if
+    (loop $repeat|0
+     (br_if $break|0
       (i32.eqz
-       (call $~lib/set/Set<f32>#has
-        (get_local $0)
+       (i32.lt_u
         (get_local $1)
+        (i32.const 100)
        )
       )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 24)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
      )
-     (drop
-      (call $~lib/set/Set<f32>#delete
-       (get_local $0)
-       (get_local $1)
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<u32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 8)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
       )
-     )
-     (if
-      (i32.eqz
+      (call $~lib/set/Set<u32>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
        (i32.eqz
-        (call $~lib/set/Set<f32>#has
+        (call $~lib/set/Set<u32>#has
          (get_local $0)
          (get_local $1)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 26)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 10)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-    )
-    (set_local $1
-     (f32.add
-      (get_local $1)
-      (f32.const 1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
+     (br $repeat|0)
     )
-    (br $repeat|2)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<f32>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<u32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
      )
-     (i32.const 50)
     )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 28)
-     (i32.const 2)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 12)
+      (i32.const 2)
+     )
+     (unreachable)
     )
-    (unreachable)
-   )
-  )
-  (block $break|3
-   (set_local $1
-    (f32.const 0)
    )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (f32.lt
-       (get_local $1)
-       (f32.const 50)
-      )
-     )
+   (block $break|1
+    (set_local $1
+     (i32.const 50)
     )
-    (block
-     (if
+    (loop $repeat|1
+     (br_if $break|1
       (i32.eqz
+       (i32.lt_u
+        (get_local $1)
+        (i32.const 100)
+       )
+      )
+     )
+     (block
+      (if
        (i32.eqz
-        (call $~lib/set/Set<f32>#has
+        (call $~lib/set/Set<u32>#has
          (get_local $0)
          (get_local $1)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 32)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/set/Set<f32>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<f32>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 34)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 16)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
-     )
-     (drop
-      (call $~lib/set/Set<f32>#delete
+      (call $~lib/set/Set<u32>#add
        (get_local $0)
        (get_local $1)
       )
-     )
-     (if
-      (i32.eqz
+      (if
        (i32.eqz
-        (call $~lib/set/Set<f32>#has
+        (call $~lib/set/Set<u32>#has
          (get_local $0)
          (get_local $1)
         )
        )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 36)
-        (i32.const 4)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 18)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (unreachable)
       )
      )
-    )
-    (set_local $1
-     (f32.add
-      (get_local $1)
-      (f32.const 1)
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
+     (br $repeat|1)
     )
-    (br $repeat|3)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<f32>#get:size
-      (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<u32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
      )
-     (i32.const 50)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 38)
-     (i32.const 2)
     )
-    (unreachable)
-   )
-  )
-  (call $~lib/set/Set<f32>#clear
-   (get_local $0)
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<f32>#get:size
-      (get_local $0)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 20)
+      (i32.const 2)
      )
-     (i32.const 0)
+     (unreachable)
     )
    )
-   (block
-    (call $~lib/env/abort
+   (block $break|2
+    (set_local $1
      (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
     )
-    (unreachable)
-   )
-  )
- )
- (func $~lib/set/Set<f64>#clear (; 101 ;) (type $iv) (param $0 i32)
-  (i32.store
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 16)
-    (i32.const 0)
-   )
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (i32.sub
-    (get_global $~lib/set/INITIAL_CAPACITY)
-    (i32.const 1)
-   )
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.const 64)
-    (i32.const 1)
-   )
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_global $~lib/set/INITIAL_CAPACITY)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.const 0)
-  )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.const 0)
-  )
- )
- (func $~lib/set/Set<f64>#constructor (; 102 ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (call $~lib/set/Set<f64>#clear
-   (tee_local $0
-    (if (result i32)
-     (get_local $0)
-     (get_local $0)
-     (tee_local $0
-      (block (result i32)
-       (set_local $1
-        (call $~lib/memory/memory.allocate
-         (i32.const 24)
-        )
-       )
-       (i32.store
+    (loop $repeat|2
+     (br_if $break|2
+      (i32.eqz
+       (i32.lt_u
         (get_local $1)
-        (i32.const 0)
+        (i32.const 50)
        )
-       (i32.store offset=4
-        (get_local $1)
-        (i32.const 0)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u32>#has
+         (get_local $0)
+         (get_local $1)
+        )
        )
-       (i32.store offset=8
-        (get_local $1)
-        (i32.const 0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 24)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (i32.store offset=12
+      )
+      (drop
+       (call $~lib/set/Set<u32>#delete
+        (get_local $0)
         (get_local $1)
-        (i32.const 0)
        )
-       (i32.store offset=16
-        (get_local $1)
-        (i32.const 0)
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<u32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
        )
-       (i32.store offset=20
-        (get_local $1)
-        (i32.const 0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 26)
+         (i32.const 4)
+        )
+        (unreachable)
        )
+      )
+     )
+     (set_local $1
+      (i32.add
        (get_local $1)
+       (i32.const 1)
       )
      )
+     (br $repeat|2)
     )
    )
-  )
-  (get_local $0)
- )
- (func $~lib/internal/hash/hash<f64> (; 103 ;) (type $Fi) (param $0 f64) (result i32)
-  (return
-   (call $~lib/internal/hash/hash64
-    (i64.reinterpret/f64
-     (get_local $0)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<u32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
     )
-   )
-  )
- )
- (func $~lib/set/Set<f64>#find (; 104 ;) (type $iFii) (param $0 i32) (param $1 f64) (param $2 i32) (result i32)
-  (local $3 i32)
-  (local $4 i32)
-  (set_local $3
-   (i32.load offset=8
-    (i32.add
-     (i32.load
-      (get_local $0)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 28)
+      (i32.const 2)
      )
-     (i32.mul
-      (i32.and
-       (get_local $2)
-       (i32.load offset=4
+     (unreachable)
+    )
+   )
+   (block $break|3
+    (set_local $1
+     (i32.const 0)
+    )
+    (loop $repeat|3
+     (br_if $break|3
+      (i32.eqz
+       (i32.lt_u
+        (get_local $1)
+        (i32.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<u32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 32)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/set/Set<u32>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 34)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/set/Set<u32>#delete
         (get_local $0)
+        (get_local $1)
        )
       )
-      (get_global $~lib/set/BUCKET_SIZE)
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<u32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 36)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
      )
+     (br $repeat|3)
     )
    )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (get_local $3)
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<u32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 38)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $2)
+    (i32.const 0)
+   )
+   (block $break|4
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<u32>#__iterator
+      (call $~lib/set/Set<u32>#values
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|4
+     (br_if $break|4
+      (call $~lib/iterator/Iterator<u32>#get:done|virtual
+       (get_local $1)
+      )
+     )
      (block
       (block
-       (if
+       (set_local $5
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.store
+        (get_local $5)
+        (get_local $2)
+       )
+       (i32.store offset=4
+        (get_local $5)
+        (i32.const 0)
+       )
+      )
+      (i32.store offset=4
+       (get_local $5)
+       (call $~lib/iterator/Iterator<u32>#next|virtual
+        (get_local $1)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
         (if (result i32)
-         (tee_local $4
-          (i32.eqz
-           (i32.and
-            (i32.load offset=8
-             (get_local $3)
-            )
-            (get_global $~lib/set/EMPTY)
+         (tee_local $6
+          (i32.ge_u
+           (i32.load offset=4
+            (get_local $5)
            )
+           (i32.const 50)
           )
          )
-         (f64.eq
-          (f64.load
-           (get_local $3)
+         (i32.lt_u
+          (i32.load offset=4
+           (get_local $5)
           )
-          (get_local $1)
+          (i32.const 100)
          )
-         (get_local $4)
+         (get_local $6)
         )
-        (return
-         (get_local $3)
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 43)
+         (i32.const 4)
         )
+        (unreachable)
        )
-       (set_local $3
-        (i32.and
-         (i32.load offset=8
-          (get_local $3)
-         )
-         (i32.xor
-          (get_global $~lib/set/EMPTY)
-          (i32.const -1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u32>#has
+         (get_local $0)
+         (i32.load offset=4
+          (get_local $5)
          )
         )
        )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 44)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
       )
-      (br $continue|0)
      )
+     (br $repeat|4)
     )
    )
-  )
-  (i32.const 0)
- )
- (func $~lib/set/Set<f64>#has (; 105 ;) (type $iFi) (param $0 i32) (param $1 f64) (result i32)
-  (i32.ne
-   (call $~lib/set/Set<f64>#find
-    (get_local $0)
-    (get_local $1)
-    (call $~lib/internal/hash/hash<f64>
-     (get_local $1)
-    )
-   )
-   (i32.const 0)
-  )
- )
- (func $~lib/set/Set<f64>#rehash (; 106 ;) (type $iiv) (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (local $9 i32)
-  (local $10 i32)
-  (local $11 f64)
-  (local $12 i32)
-  (local $13 i32)
-  (set_local $2
-   (i32.add
-    (get_local $1)
-    (i32.const 1)
-   )
-  )
-  (set_local $3
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $2)
-     (get_global $~lib/set/BUCKET_SIZE)
-    )
-    (i32.const 0)
-   )
-  )
-  (set_local $4
-   (i32.trunc_s/f64
-    (f64.mul
-     (f64.convert_s/i32
-      (get_local $2)
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
      )
-     (get_global $~lib/set/FILL_FACTOR)
     )
-   )
-  )
-  (set_local $5
-   (call $~lib/arraybuffer/ArrayBuffer#constructor
-    (i32.const 0)
-    (i32.mul
-     (get_local $4)
-     (block $~lib/set/ENTRY_SIZE<f64>|inlined.1 (result i32)
-      (i32.const 16)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 47)
+      (i32.const 2)
      )
+     (unreachable)
     )
-    (i32.const 1)
-   )
-  )
-  (set_local $6
-   (i32.add
-    (i32.load offset=8
-     (get_local $0)
-    )
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
    )
-  )
-  (set_local $7
-   (i32.add
-    (get_local $6)
-    (i32.mul
-     (i32.load offset=16
-      (get_local $0)
-     )
-     (block $~lib/set/ENTRY_SIZE<f64>|inlined.2 (result i32)
-      (i32.const 16)
+   (block $break|5
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<u32>#__iterator
+      (call $~lib/set/Set<u32>#keys
+       (get_local $0)
+      )
      )
     )
-   )
-  )
-  (set_local $8
-   (i32.add
-    (get_local $5)
-    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
-   )
-  )
-  (block $break|0
-   (loop $continue|0
-    (if
-     (i32.ne
-      (get_local $6)
-      (get_local $7)
+    (loop $repeat|5
+     (br_if $break|5
+      (call $~lib/iterator/Iterator<u32>#get:done|virtual
+       (get_local $1)
+      )
      )
      (block
       (block
-       (set_local $9
-        (get_local $6)
-       )
-       (if
-        (i32.eqz
-         (i32.and
-          (i32.load offset=8
-           (get_local $9)
-          )
-          (get_global $~lib/set/EMPTY)
-         )
+       (set_local $8
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
         )
-        (block
-         (set_local $10
-          (get_local $8)
-         )
-         (f64.store
-          (get_local $10)
-          (f64.load
-           (get_local $9)
-          )
-         )
-         (set_local $12
-          (i32.and
-           (block $~lib/internal/hash/hash<f64>|inlined.0 (result i32)
-            (set_local $11
-             (f64.load
-              (get_local $9)
-             )
-            )
-            (br $~lib/internal/hash/hash<f64>|inlined.0
-             (call $~lib/internal/hash/hash64
-              (i64.reinterpret/f64
-               (get_local $11)
-              )
-             )
-            )
-           )
-           (get_local $1)
-          )
-         )
-         (set_local $13
-          (i32.add
-           (get_local $3)
-           (i32.mul
-            (get_local $12)
-            (get_global $~lib/set/BUCKET_SIZE)
-           )
-          )
-         )
-         (i32.store offset=8
-          (get_local $10)
-          (i32.load offset=8
-           (get_local $13)
-          )
-         )
-         (i32.store offset=8
-          (get_local $13)
+       )
+       (i32.store
+        (get_local $8)
+        (get_local $2)
+       )
+       (i32.store offset=4
+        (get_local $8)
+        (i32.const 0)
+       )
+      )
+      (i32.store offset=4
+       (get_local $8)
+       (call $~lib/iterator/Iterator<u32>#next|virtual
+        (get_local $1)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u32>#has
+         (get_local $0)
+         (i32.load offset=4
           (get_local $8)
          )
-         (set_local $8
-          (i32.add
-           (get_local $8)
-           (block $~lib/set/ENTRY_SIZE<f64>|inlined.3 (result i32)
-            (i32.const 16)
-           )
-          )
-         )
         )
        )
-       (set_local $6
-        (i32.add
-         (get_local $6)
-         (block $~lib/set/ENTRY_SIZE<f64>|inlined.4 (result i32)
-          (i32.const 16)
-         )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 49)
+         (i32.const 4)
         )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
       )
-      (br $continue|0)
      )
+     (br $repeat|5)
     )
    )
-  )
-  (i32.store
-   (get_local $0)
-   (get_local $3)
-  )
-  (i32.store offset=4
-   (get_local $0)
-   (get_local $1)
-  )
-  (i32.store offset=8
-   (get_local $0)
-   (get_local $5)
-  )
-  (i32.store offset=12
-   (get_local $0)
-   (get_local $4)
-  )
-  (i32.store offset=16
-   (get_local $0)
-   (i32.load offset=20
-    (get_local $0)
-   )
-  )
- )
- (func $~lib/set/Set<f64>#add (; 107 ;) (type $iFv) (param $0 i32) (param $1 f64)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (set_local $2
-   (call $~lib/internal/hash/hash<f64>
-    (get_local $1)
-   )
-  )
-  (set_local $3
-   (call $~lib/set/Set<f64>#find
-    (get_local $0)
-    (get_local $1)
-    (get_local $2)
-   )
-  )
-  (if
-   (i32.eqz
-    (get_local $3)
-   )
-   (block
-    (if
+   (if
+    (i32.eqz
      (i32.eq
-      (i32.load offset=16
-       (get_local $0)
+      (i32.load offset=4
+       (get_local $2)
       )
-      (i32.load offset=12
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 52)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|6
+    (set_local $1
+     (call $~lib/iterator/IterableIterator<KeyValue<u32,u32>>#__iterator
+      (call $~lib/set/Set<u32>#entries
        (get_local $0)
       )
      )
-     (call $~lib/set/Set<f64>#rehash
-      (get_local $0)
-      (if (result i32)
-       (i32.lt_s
-        (i32.load offset=20
-         (get_local $0)
-        )
-        (i32.trunc_s/f64
-         (f64.mul
-          (f64.convert_s/i32
-           (i32.load offset=12
-            (get_local $0)
-           )
-          )
-          (get_global $~lib/set/FREE_FACTOR)
+    )
+    (loop $repeat|6
+     (br_if $break|6
+      (call $~lib/iterator/Iterator<KeyValue<u32,u32>>#get:done|virtual
+       (get_local $1)
+      )
+     )
+     (set_local $6
+      (call $~lib/iterator/Iterator<KeyValue<u32,u32>>#next|virtual
+       (get_local $1)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eq
+         (i32.load
+          (get_local $6)
+         )
+         (i32.load offset=4
+          (get_local $6)
          )
         )
        )
-       (i32.load offset=4
-        (get_local $0)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 54)
+         (i32.const 4)
+        )
+        (unreachable)
        )
-       (i32.or
-        (i32.shl
-         (i32.load offset=4
-          (get_local $0)
-         )
-         (i32.const 1)
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
         )
         (i32.const 1)
        )
       )
      )
+     (br $repeat|6)
     )
-    (set_local $4
-     (i32.load offset=8
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 57)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|7
+    (set_local $6
+     (call $~lib/set/Set<u32>#__iterator
       (get_local $0)
      )
     )
-    (set_local $3
-     (i32.add
-      (i32.add
-       (get_local $4)
-       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+    (loop $repeat|7
+     (br_if $break|7
+      (call $~lib/iterator/Iterator<u32>#get:done|virtual
+       (get_local $6)
       )
-      (i32.mul
-       (block (result i32)
-        (set_local $5
-         (i32.load offset=16
-          (get_local $0)
-         )
+     )
+     (block
+      (block
+       (set_local $10
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
         )
-        (i32.store offset=16
+       )
+       (i32.store
+        (get_local $10)
+        (get_local $2)
+       )
+       (i32.store offset=4
+        (get_local $10)
+        (i32.const 0)
+       )
+      )
+      (i32.store offset=4
+       (get_local $10)
+       (call $~lib/iterator/Iterator<u32>#next|virtual
+        (get_local $6)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u32>#has
          (get_local $0)
-         (i32.add
-          (get_local $5)
-          (i32.const 1)
+         (i32.load offset=4
+          (get_local $10)
          )
         )
-        (get_local $5)
        )
-       (block $~lib/set/ENTRY_SIZE<f64>|inlined.5 (result i32)
-        (i32.const 16)
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 59)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
        )
       )
      )
+     (br $repeat|7)
     )
-    (f64.store
-     (get_local $3)
-     (get_local $1)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 62)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/set/Set<u32>#forEach
+    (get_local $0)
+    (block (result i32)
+     (set_local $6
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (i32.store
+      (get_local $6)
+      (i32.const 5)
+     )
+     (i32.store offset=4
+      (get_local $6)
+      (get_local $2)
+     )
+     (get_local $6)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 67)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/set/Set<u32>#clear
+    (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<u32>#get:size
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 71)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+  )
+ )
+ (func $~lib/set/Set<i64>#clear (; 118 ;) (type $iv) (param $0 i32)
+  (i32.store
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 16)
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.sub
+    (get_global $~lib/set/INITIAL_CAPACITY)
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 64)
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_global $~lib/set/INITIAL_CAPACITY)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/set/Set<i64>#constructor (; 119 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/set/Set<i64>#clear
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $1
+        (call $~lib/memory/memory.allocate
+         (i32.const 24)
+        )
+       )
+       (i32.store
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=8
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=12
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=16
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=20
+        (get_local $1)
+        (i32.const 0)
+       )
+       (get_local $1)
+      )
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/hash/hash64 (; 120 ;) (type $Ii) (param $0 i64) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $1
+   (i32.wrap/i64
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.wrap/i64
+    (i64.shr_u
+     (get_local $0)
+     (i64.const 32)
+    )
+   )
+  )
+  (set_local $3
+   (get_global $~lib/internal/hash/FNV_OFFSET)
+  )
+  (set_local $3
+   (i32.mul
+    (i32.xor
+     (get_local $3)
+     (i32.and
+      (get_local $1)
+      (i32.const 255)
+     )
+    )
+    (get_global $~lib/internal/hash/FNV_PRIME)
+   )
+  )
+  (set_local $3
+   (i32.mul
+    (i32.xor
+     (get_local $3)
+     (i32.and
+      (i32.shr_u
+       (get_local $1)
+       (i32.const 8)
+      )
+      (i32.const 255)
+     )
+    )
+    (get_global $~lib/internal/hash/FNV_PRIME)
+   )
+  )
+  (set_local $3
+   (i32.mul
+    (i32.xor
+     (get_local $3)
+     (i32.and
+      (i32.shr_u
+       (get_local $1)
+       (i32.const 16)
+      )
+      (i32.const 255)
+     )
+    )
+    (get_global $~lib/internal/hash/FNV_PRIME)
+   )
+  )
+  (set_local $3
+   (i32.mul
+    (i32.xor
+     (get_local $3)
+     (i32.shr_u
+      (get_local $1)
+      (i32.const 24)
+     )
+    )
+    (get_global $~lib/internal/hash/FNV_PRIME)
+   )
+  )
+  (set_local $3
+   (i32.mul
+    (i32.xor
+     (get_local $3)
+     (i32.and
+      (get_local $2)
+      (i32.const 255)
+     )
+    )
+    (get_global $~lib/internal/hash/FNV_PRIME)
+   )
+  )
+  (set_local $3
+   (i32.mul
+    (i32.xor
+     (get_local $3)
+     (i32.and
+      (i32.shr_u
+       (get_local $2)
+       (i32.const 8)
+      )
+      (i32.const 255)
+     )
+    )
+    (get_global $~lib/internal/hash/FNV_PRIME)
+   )
+  )
+  (set_local $3
+   (i32.mul
+    (i32.xor
+     (get_local $3)
+     (i32.and
+      (i32.shr_u
+       (get_local $2)
+       (i32.const 16)
+      )
+      (i32.const 255)
+     )
+    )
+    (get_global $~lib/internal/hash/FNV_PRIME)
+   )
+  )
+  (set_local $3
+   (i32.mul
+    (i32.xor
+     (get_local $3)
+     (i32.shr_u
+      (get_local $2)
+      (i32.const 24)
+     )
+    )
+    (get_global $~lib/internal/hash/FNV_PRIME)
+   )
+  )
+  (get_local $3)
+ )
+ (func $~lib/internal/hash/hash<i64> (; 121 ;) (type $Ii) (param $0 i64) (result i32)
+  (return
+   (call $~lib/internal/hash/hash64
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/Set<i64>#find (; 122 ;) (type $iIii) (param $0 i32) (param $1 i64) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (i32.mul
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (get_global $~lib/set/BUCKET_SIZE)
+     )
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (get_local $3)
+     (block
+      (block
+       (if
+        (if (result i32)
+         (tee_local $4
+          (i32.eqz
+           (i32.and
+            (i32.load offset=8
+             (get_local $3)
+            )
+            (get_global $~lib/set/EMPTY)
+           )
+          )
+         )
+         (i64.eq
+          (i64.load
+           (get_local $3)
+          )
+          (get_local $1)
+         )
+         (get_local $4)
+        )
+        (return
+         (get_local $3)
+        )
+       )
+       (set_local $3
+        (i32.and
+         (i32.load offset=8
+          (get_local $3)
+         )
+         (i32.xor
+          (get_global $~lib/set/EMPTY)
+          (i32.const -1)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/set/Set<i64>#has (; 123 ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
+  (i32.ne
+   (call $~lib/set/Set<i64>#find
+    (get_local $0)
+    (get_local $1)
+    (call $~lib/internal/hash/hash<i64>
+     (get_local $1)
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/set/Set<i64>#rehash (; 124 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i64)
+  (local $12 i32)
+  (local $13 i32)
+  (set_local $2
+   (i32.add
+    (get_local $1)
+    (i32.const 1)
+   )
+  )
+  (set_local $3
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $2)
+     (get_global $~lib/set/BUCKET_SIZE)
+    )
+    (i32.const 0)
+   )
+  )
+  (set_local $4
+   (i32.trunc_s/f64
+    (f64.mul
+     (f64.convert_s/i32
+      (get_local $2)
+     )
+     (get_global $~lib/set/FILL_FACTOR)
+    )
+   )
+  )
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $4)
+     (block $~lib/set/ENTRY_SIZE<i64>|inlined.1 (result i32)
+      (i32.const 16)
+     )
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $6
+   (i32.add
+    (i32.load offset=8
+     (get_local $0)
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+  )
+  (set_local $7
+   (i32.add
+    (get_local $6)
+    (i32.mul
+     (i32.load offset=16
+      (get_local $0)
+     )
+     (block $~lib/set/ENTRY_SIZE<i64>|inlined.2 (result i32)
+      (i32.const 16)
+     )
+    )
+   )
+  )
+  (set_local $8
+   (i32.add
+    (get_local $5)
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.ne
+      (get_local $6)
+      (get_local $7)
+     )
+     (block
+      (block
+       (set_local $9
+        (get_local $6)
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $9)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (block
+         (set_local $10
+          (get_local $8)
+         )
+         (i64.store
+          (get_local $10)
+          (i64.load
+           (get_local $9)
+          )
+         )
+         (set_local $12
+          (i32.and
+           (block $~lib/internal/hash/hash<i64>|inlined.0 (result i32)
+            (set_local $11
+             (i64.load
+              (get_local $9)
+             )
+            )
+            (br $~lib/internal/hash/hash<i64>|inlined.0
+             (call $~lib/internal/hash/hash64
+              (get_local $11)
+             )
+            )
+           )
+           (get_local $1)
+          )
+         )
+         (set_local $13
+          (i32.add
+           (get_local $3)
+           (i32.mul
+            (get_local $12)
+            (get_global $~lib/set/BUCKET_SIZE)
+           )
+          )
+         )
+         (i32.store offset=8
+          (get_local $10)
+          (i32.load offset=8
+           (get_local $13)
+          )
+         )
+         (i32.store offset=8
+          (get_local $13)
+          (get_local $8)
+         )
+         (set_local $8
+          (i32.add
+           (get_local $8)
+           (block $~lib/set/ENTRY_SIZE<i64>|inlined.3 (result i32)
+            (i32.const 16)
+           )
+          )
+         )
+        )
+       )
+       (set_local $6
+        (i32.add
+         (get_local $6)
+         (block $~lib/set/ENTRY_SIZE<i64>|inlined.4 (result i32)
+          (i32.const 16)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/Set<i64>#add (; 125 ;) (type $iIv) (param $0 i32) (param $1 i64)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (call $~lib/internal/hash/hash<i64>
+    (get_local $1)
+   )
+  )
+  (set_local $3
+   (call $~lib/set/Set<i64>#find
+    (get_local $0)
+    (get_local $1)
+    (get_local $2)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $3)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
+      )
+     )
+     (call $~lib/set/Set<i64>#rehash
+      (get_local $0)
+      (if (result i32)
+       (i32.lt_s
+        (i32.load offset=20
+         (get_local $0)
+        )
+        (i32.trunc_s/f64
+         (f64.mul
+          (f64.convert_s/i32
+           (i32.load offset=12
+            (get_local $0)
+           )
+          )
+          (get_global $~lib/set/FREE_FACTOR)
+         )
+        )
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+       (i32.or
+        (i32.shl
+         (i32.load offset=4
+          (get_local $0)
+         )
+         (i32.const 1)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $4
+     (i32.load offset=8
+      (get_local $0)
+     )
+    )
+    (set_local $3
+     (i32.add
+      (i32.add
+       (get_local $4)
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+      (i32.mul
+       (block (result i32)
+        (set_local $5
+         (i32.load offset=16
+          (get_local $0)
+         )
+        )
+        (i32.store offset=16
+         (get_local $0)
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+       (block $~lib/set/ENTRY_SIZE<i64>|inlined.5 (result i32)
+        (i32.const 16)
+       )
+      )
+     )
+    )
+    (i64.store
+     (get_local $3)
+     (get_local $1)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $5
+     (i32.add
+      (i32.load
+       (get_local $0)
+      )
+      (i32.mul
+       (i32.and
+        (get_local $2)
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (get_global $~lib/set/BUCKET_SIZE)
+      )
+     )
+    )
+    (i32.store offset=8
+     (get_local $3)
+     (i32.load offset=8
+      (get_local $5)
+     )
+    )
+    (i32.store offset=8
+     (get_local $5)
+     (get_local $3)
+    )
+   )
+  )
+ )
+ (func $~lib/set/Set<i64>#get:size (; 126 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=20
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<i64>#delete (; 127 ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (call $~lib/set/Set<i64>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<i64>|inlined.1 (result i32)
+     (br $~lib/internal/hash/hash<i64>|inlined.1
+      (call $~lib/internal/hash/hash64
+       (get_local $1)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=8
+   (get_local $2)
+   (i32.or
+    (i32.load offset=8
+     (get_local $2)
+    )
+    (get_global $~lib/set/EMPTY)
+   )
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $3
+   (i32.shr_u
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $4
+     (i32.ge_u
+      (i32.add
+       (get_local $3)
+       (i32.const 1)
+      )
+      (select
+       (tee_local $4
+        (get_global $~lib/set/INITIAL_CAPACITY)
+       )
+       (tee_local $5
+        (i32.load offset=20
+         (get_local $0)
+        )
+       )
+       (i32.gt_u
+        (get_local $4)
+        (get_local $5)
+       )
+      )
+     )
+    )
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $0)
+     )
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $0)
+        )
+       )
+       (get_global $~lib/set/FREE_FACTOR)
+      )
+     )
+    )
+    (get_local $4)
+   )
+   (call $~lib/set/Set<i64>#rehash
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/set/Set<i64>#values (; 128 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 75)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<i64>#__iterator (; 129 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<i64>#keys (; 130 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<i64>#values
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<i64>#entries (; 131 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 80)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<KeyValue<i64,i64>>#__iterator (; 132 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<i64>#__iterator (; 133 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<i64>#values
+   (get_local $0)
+  )
+ )
+ (func $std/set/test<i64>~anonymous|6 (; 134 ;) (type $IIiv) (param $0 i64) (param $1 i64) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (block
+   (if
+    (i32.eqz
+     (i64.eq
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 64)
+      (i32.const 4)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $3)
+    (i32.add
+     (i32.load offset=4
+      (get_local $3)
+     )
+     (i32.const 1)
+    )
+   )
+  )
+ )
+ (func $~lib/set/Set<i64>#forEach (; 135 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $2)
+       (i32.load offset=16
+        (get_local $0)
+       )
+      )
+     )
+    )
+    (block
+     (set_local $3
+      (i32.add
+       (i32.add
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+       )
+       (i32.mul
+        (get_local $2)
+        (block $~lib/set/ENTRY_SIZE<i64>|inlined.6 (result i32)
+         (i32.const 16)
+        )
+       )
+      )
+     )
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=8
+         (get_local $3)
+        )
+        (get_global $~lib/set/EMPTY)
+       )
+      )
+      (block
+       (set_global $~argc
+        (i32.const 3)
+       )
+       (call_indirect (type $IIiv)
+        (i64.load
+         (get_local $3)
+        )
+        (i64.load
+         (get_local $3)
+        )
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (get_local $1)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $std/set/test<i64> (; 136 ;) (type $v)
+  (local $0 i32)
+  (local $1 i64)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i64)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i64)
+  (local $9 i32)
+  (local $10 i64)
+  (local $11 i32)
+  (set_local $2
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
+   )
+  )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block
+   (set_local $0
+    (call $~lib/set/Set<i64>#constructor
+     (i32.const 0)
+    )
+   )
+   (block $break|0
+    (set_local $1
+     (i64.const 0)
+    )
+    (loop $repeat|0
+     (br_if $break|0
+      (i32.eqz
+       (i64.lt_s
+        (get_local $1)
+        (i64.const 100)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<i64>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 8)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/set/Set<i64>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i64>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 10)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i64.add
+       (get_local $1)
+       (i64.const 1)
+      )
+     )
+     (br $repeat|0)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<i64>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 12)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|1
+    (set_local $1
+     (i64.const 50)
+    )
+    (loop $repeat|1
+     (br_if $break|1
+      (i32.eqz
+       (i64.lt_s
+        (get_local $1)
+        (i64.const 100)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i64>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 16)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/set/Set<i64>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i64>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 18)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i64.add
+       (get_local $1)
+       (i64.const 1)
+      )
+     )
+     (br $repeat|1)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<i64>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 20)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|2
+    (set_local $1
+     (i64.const 0)
+    )
+    (loop $repeat|2
+     (br_if $break|2
+      (i32.eqz
+       (i64.lt_s
+        (get_local $1)
+        (i64.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i64>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 24)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/set/Set<i64>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<i64>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 26)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i64.add
+       (get_local $1)
+       (i64.const 1)
+      )
+     )
+     (br $repeat|2)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<i64>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 28)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|3
+    (set_local $1
+     (i64.const 0)
+    )
+    (loop $repeat|3
+     (br_if $break|3
+      (i32.eqz
+       (i64.lt_s
+        (get_local $1)
+        (i64.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<i64>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 32)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/set/Set<i64>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i64>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 34)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/set/Set<i64>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<i64>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 36)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i64.add
+       (get_local $1)
+       (i64.const 1)
+      )
+     )
+     (br $repeat|3)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<i64>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 38)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $2)
+    (i32.const 0)
+   )
+   (block $break|4
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<i64>#__iterator
+      (call $~lib/set/Set<i64>#values
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|4
+     (br_if $break|4
+      (call $~lib/iterator/Iterator<i64>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (block
+       (set_local $6
+        (call $~lib/memory/memory.allocate
+         (i32.const 16)
+        )
+       )
+       (i32.store
+        (get_local $6)
+        (get_local $2)
+       )
+       (i64.store offset=8
+        (get_local $6)
+        (i64.const 0)
+       )
+      )
+      (i64.store offset=8
+       (get_local $6)
+       (call $~lib/iterator/Iterator<i64>#next|virtual
+        (get_local $4)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $7
+          (i64.ge_s
+           (i64.load offset=8
+            (get_local $6)
+           )
+           (i64.const 50)
+          )
+         )
+         (i64.lt_s
+          (i64.load offset=8
+           (get_local $6)
+          )
+          (i64.const 100)
+         )
+         (get_local $7)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 43)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i64>#has
+         (get_local $0)
+         (i64.load offset=8
+          (get_local $6)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 44)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|4)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 47)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|5
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<i64>#__iterator
+      (call $~lib/set/Set<i64>#keys
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|5
+     (br_if $break|5
+      (call $~lib/iterator/Iterator<i64>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (block
+       (set_local $9
+        (call $~lib/memory/memory.allocate
+         (i32.const 16)
+        )
+       )
+       (i32.store
+        (get_local $9)
+        (get_local $2)
+       )
+       (i64.store offset=8
+        (get_local $9)
+        (i64.const 0)
+       )
+      )
+      (i64.store offset=8
+       (get_local $9)
+       (call $~lib/iterator/Iterator<i64>#next|virtual
+        (get_local $4)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i64>#has
+         (get_local $0)
+         (i64.load offset=8
+          (get_local $9)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 49)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|5)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 52)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|6
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<KeyValue<i64,i64>>#__iterator
+      (call $~lib/set/Set<i64>#entries
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|6
+     (br_if $break|6
+      (call $~lib/iterator/Iterator<KeyValue<i64,i64>>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (set_local $7
+      (call $~lib/iterator/Iterator<KeyValue<i64,i64>>#next|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i64.eq
+         (i64.load
+          (get_local $7)
+         )
+         (i64.load offset=8
+          (get_local $7)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 54)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|6)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 57)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|7
+    (set_local $7
+     (call $~lib/set/Set<i64>#__iterator
+      (get_local $0)
+     )
+    )
+    (loop $repeat|7
+     (br_if $break|7
+      (call $~lib/iterator/Iterator<i64>#get:done|virtual
+       (get_local $7)
+      )
+     )
+     (block
+      (block
+       (set_local $11
+        (call $~lib/memory/memory.allocate
+         (i32.const 16)
+        )
+       )
+       (i32.store
+        (get_local $11)
+        (get_local $2)
+       )
+       (i64.store offset=8
+        (get_local $11)
+        (i64.const 0)
+       )
+      )
+      (i64.store offset=8
+       (get_local $11)
+       (call $~lib/iterator/Iterator<i64>#next|virtual
+        (get_local $7)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<i64>#has
+         (get_local $0)
+         (i64.load offset=8
+          (get_local $11)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 59)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|7)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 62)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/set/Set<i64>#forEach
+    (get_local $0)
+    (block (result i32)
+     (set_local $7
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (i32.store
+      (get_local $7)
+      (i32.const 6)
+     )
+     (i32.store offset=4
+      (get_local $7)
+      (get_local $2)
+     )
+     (get_local $7)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 67)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/set/Set<i64>#clear
+    (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<i64>#get:size
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 71)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+  )
+ )
+ (func $~lib/set/Set<u64>#clear (; 137 ;) (type $iv) (param $0 i32)
+  (i32.store
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 16)
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.sub
+    (get_global $~lib/set/INITIAL_CAPACITY)
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 64)
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_global $~lib/set/INITIAL_CAPACITY)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/set/Set<u64>#constructor (; 138 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/set/Set<u64>#clear
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $1
+        (call $~lib/memory/memory.allocate
+         (i32.const 24)
+        )
+       )
+       (i32.store
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=8
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=12
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=16
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=20
+        (get_local $1)
+        (i32.const 0)
+       )
+       (get_local $1)
+      )
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/hash/hash<u64> (; 139 ;) (type $Ii) (param $0 i64) (result i32)
+  (return
+   (call $~lib/internal/hash/hash64
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/Set<u64>#find (; 140 ;) (type $iIii) (param $0 i32) (param $1 i64) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (i32.mul
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (get_global $~lib/set/BUCKET_SIZE)
+     )
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (get_local $3)
+     (block
+      (block
+       (if
+        (if (result i32)
+         (tee_local $4
+          (i32.eqz
+           (i32.and
+            (i32.load offset=8
+             (get_local $3)
+            )
+            (get_global $~lib/set/EMPTY)
+           )
+          )
+         )
+         (i64.eq
+          (i64.load
+           (get_local $3)
+          )
+          (get_local $1)
+         )
+         (get_local $4)
+        )
+        (return
+         (get_local $3)
+        )
+       )
+       (set_local $3
+        (i32.and
+         (i32.load offset=8
+          (get_local $3)
+         )
+         (i32.xor
+          (get_global $~lib/set/EMPTY)
+          (i32.const -1)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/set/Set<u64>#has (; 141 ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
+  (i32.ne
+   (call $~lib/set/Set<u64>#find
+    (get_local $0)
+    (get_local $1)
+    (call $~lib/internal/hash/hash<u64>
+     (get_local $1)
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/set/Set<u64>#rehash (; 142 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i64)
+  (local $12 i32)
+  (local $13 i32)
+  (set_local $2
+   (i32.add
+    (get_local $1)
+    (i32.const 1)
+   )
+  )
+  (set_local $3
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $2)
+     (get_global $~lib/set/BUCKET_SIZE)
+    )
+    (i32.const 0)
+   )
+  )
+  (set_local $4
+   (i32.trunc_s/f64
+    (f64.mul
+     (f64.convert_s/i32
+      (get_local $2)
+     )
+     (get_global $~lib/set/FILL_FACTOR)
+    )
+   )
+  )
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $4)
+     (block $~lib/set/ENTRY_SIZE<u64>|inlined.1 (result i32)
+      (i32.const 16)
+     )
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $6
+   (i32.add
+    (i32.load offset=8
+     (get_local $0)
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+  )
+  (set_local $7
+   (i32.add
+    (get_local $6)
+    (i32.mul
+     (i32.load offset=16
+      (get_local $0)
+     )
+     (block $~lib/set/ENTRY_SIZE<u64>|inlined.2 (result i32)
+      (i32.const 16)
+     )
+    )
+   )
+  )
+  (set_local $8
+   (i32.add
+    (get_local $5)
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.ne
+      (get_local $6)
+      (get_local $7)
+     )
+     (block
+      (block
+       (set_local $9
+        (get_local $6)
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $9)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (block
+         (set_local $10
+          (get_local $8)
+         )
+         (i64.store
+          (get_local $10)
+          (i64.load
+           (get_local $9)
+          )
+         )
+         (set_local $12
+          (i32.and
+           (block $~lib/internal/hash/hash<u64>|inlined.0 (result i32)
+            (set_local $11
+             (i64.load
+              (get_local $9)
+             )
+            )
+            (br $~lib/internal/hash/hash<u64>|inlined.0
+             (call $~lib/internal/hash/hash64
+              (get_local $11)
+             )
+            )
+           )
+           (get_local $1)
+          )
+         )
+         (set_local $13
+          (i32.add
+           (get_local $3)
+           (i32.mul
+            (get_local $12)
+            (get_global $~lib/set/BUCKET_SIZE)
+           )
+          )
+         )
+         (i32.store offset=8
+          (get_local $10)
+          (i32.load offset=8
+           (get_local $13)
+          )
+         )
+         (i32.store offset=8
+          (get_local $13)
+          (get_local $8)
+         )
+         (set_local $8
+          (i32.add
+           (get_local $8)
+           (block $~lib/set/ENTRY_SIZE<u64>|inlined.3 (result i32)
+            (i32.const 16)
+           )
+          )
+         )
+        )
+       )
+       (set_local $6
+        (i32.add
+         (get_local $6)
+         (block $~lib/set/ENTRY_SIZE<u64>|inlined.4 (result i32)
+          (i32.const 16)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/Set<u64>#add (; 143 ;) (type $iIv) (param $0 i32) (param $1 i64)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (call $~lib/internal/hash/hash<u64>
+    (get_local $1)
+   )
+  )
+  (set_local $3
+   (call $~lib/set/Set<u64>#find
+    (get_local $0)
+    (get_local $1)
+    (get_local $2)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $3)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
+      )
+     )
+     (call $~lib/set/Set<u64>#rehash
+      (get_local $0)
+      (if (result i32)
+       (i32.lt_s
+        (i32.load offset=20
+         (get_local $0)
+        )
+        (i32.trunc_s/f64
+         (f64.mul
+          (f64.convert_s/i32
+           (i32.load offset=12
+            (get_local $0)
+           )
+          )
+          (get_global $~lib/set/FREE_FACTOR)
+         )
+        )
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+       (i32.or
+        (i32.shl
+         (i32.load offset=4
+          (get_local $0)
+         )
+         (i32.const 1)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $4
+     (i32.load offset=8
+      (get_local $0)
+     )
+    )
+    (set_local $3
+     (i32.add
+      (i32.add
+       (get_local $4)
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+      (i32.mul
+       (block (result i32)
+        (set_local $5
+         (i32.load offset=16
+          (get_local $0)
+         )
+        )
+        (i32.store offset=16
+         (get_local $0)
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+       (block $~lib/set/ENTRY_SIZE<u64>|inlined.5 (result i32)
+        (i32.const 16)
+       )
+      )
+     )
+    )
+    (i64.store
+     (get_local $3)
+     (get_local $1)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $5
+     (i32.add
+      (i32.load
+       (get_local $0)
+      )
+      (i32.mul
+       (i32.and
+        (get_local $2)
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (get_global $~lib/set/BUCKET_SIZE)
+      )
+     )
+    )
+    (i32.store offset=8
+     (get_local $3)
+     (i32.load offset=8
+      (get_local $5)
+     )
+    )
+    (i32.store offset=8
+     (get_local $5)
+     (get_local $3)
+    )
+   )
+  )
+ )
+ (func $~lib/set/Set<u64>#get:size (; 144 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=20
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<u64>#delete (; 145 ;) (type $iIi) (param $0 i32) (param $1 i64) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (call $~lib/set/Set<u64>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<u64>|inlined.1 (result i32)
+     (br $~lib/internal/hash/hash<u64>|inlined.1
+      (call $~lib/internal/hash/hash64
+       (get_local $1)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=8
+   (get_local $2)
+   (i32.or
+    (i32.load offset=8
+     (get_local $2)
+    )
+    (get_global $~lib/set/EMPTY)
+   )
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $3
+   (i32.shr_u
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $4
+     (i32.ge_u
+      (i32.add
+       (get_local $3)
+       (i32.const 1)
+      )
+      (select
+       (tee_local $4
+        (get_global $~lib/set/INITIAL_CAPACITY)
+       )
+       (tee_local $5
+        (i32.load offset=20
+         (get_local $0)
+        )
+       )
+       (i32.gt_u
+        (get_local $4)
+        (get_local $5)
+       )
+      )
+     )
+    )
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $0)
+     )
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $0)
+        )
+       )
+       (get_global $~lib/set/FREE_FACTOR)
+      )
+     )
+    )
+    (get_local $4)
+   )
+   (call $~lib/set/Set<u64>#rehash
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/set/Set<u64>#values (; 146 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 86)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<u64>#__iterator (; 147 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<u64>#keys (; 148 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<u64>#values
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<u64>#entries (; 149 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 91)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<KeyValue<u64,u64>>#__iterator (; 150 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<u64>#__iterator (; 151 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<u64>#values
+   (get_local $0)
+  )
+ )
+ (func $std/set/test<u64>~anonymous|7 (; 152 ;) (type $IIiv) (param $0 i64) (param $1 i64) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (block
+   (if
+    (i32.eqz
+     (i64.eq
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 64)
+      (i32.const 4)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $3)
+    (i32.add
+     (i32.load offset=4
+      (get_local $3)
+     )
+     (i32.const 1)
+    )
+   )
+  )
+ )
+ (func $~lib/set/Set<u64>#forEach (; 153 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $2)
+       (i32.load offset=16
+        (get_local $0)
+       )
+      )
+     )
+    )
+    (block
+     (set_local $3
+      (i32.add
+       (i32.add
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+       )
+       (i32.mul
+        (get_local $2)
+        (block $~lib/set/ENTRY_SIZE<u64>|inlined.6 (result i32)
+         (i32.const 16)
+        )
+       )
+      )
+     )
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=8
+         (get_local $3)
+        )
+        (get_global $~lib/set/EMPTY)
+       )
+      )
+      (block
+       (set_global $~argc
+        (i32.const 3)
+       )
+       (call_indirect (type $IIiv)
+        (i64.load
+         (get_local $3)
+        )
+        (i64.load
+         (get_local $3)
+        )
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (get_local $1)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $std/set/test<u64> (; 154 ;) (type $v)
+  (local $0 i32)
+  (local $1 i64)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i64)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i64)
+  (local $9 i32)
+  (local $10 i64)
+  (local $11 i32)
+  (set_local $2
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
+   )
+  )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block
+   (set_local $0
+    (call $~lib/set/Set<u64>#constructor
+     (i32.const 0)
+    )
+   )
+   (block $break|0
+    (set_local $1
+     (i64.const 0)
+    )
+    (loop $repeat|0
+     (br_if $break|0
+      (i32.eqz
+       (i64.lt_u
+        (get_local $1)
+        (i64.const 100)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<u64>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 8)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/set/Set<u64>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u64>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 10)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i64.add
+       (get_local $1)
+       (i64.const 1)
+      )
+     )
+     (br $repeat|0)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<u64>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 12)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|1
+    (set_local $1
+     (i64.const 50)
+    )
+    (loop $repeat|1
+     (br_if $break|1
+      (i32.eqz
+       (i64.lt_u
+        (get_local $1)
+        (i64.const 100)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u64>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 16)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/set/Set<u64>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u64>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 18)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i64.add
+       (get_local $1)
+       (i64.const 1)
+      )
+     )
+     (br $repeat|1)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<u64>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 20)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|2
+    (set_local $1
+     (i64.const 0)
+    )
+    (loop $repeat|2
+     (br_if $break|2
+      (i32.eqz
+       (i64.lt_u
+        (get_local $1)
+        (i64.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u64>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 24)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/set/Set<u64>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<u64>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 26)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i64.add
+       (get_local $1)
+       (i64.const 1)
+      )
+     )
+     (br $repeat|2)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<u64>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 28)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|3
+    (set_local $1
+     (i64.const 0)
+    )
+    (loop $repeat|3
+     (br_if $break|3
+      (i32.eqz
+       (i64.lt_u
+        (get_local $1)
+        (i64.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<u64>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 32)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/set/Set<u64>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u64>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 34)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/set/Set<u64>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<u64>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 36)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (i64.add
+       (get_local $1)
+       (i64.const 1)
+      )
+     )
+     (br $repeat|3)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<u64>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 38)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $2)
+    (i32.const 0)
+   )
+   (block $break|4
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<u64>#__iterator
+      (call $~lib/set/Set<u64>#values
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|4
+     (br_if $break|4
+      (call $~lib/iterator/Iterator<u64>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (block
+       (set_local $6
+        (call $~lib/memory/memory.allocate
+         (i32.const 16)
+        )
+       )
+       (i32.store
+        (get_local $6)
+        (get_local $2)
+       )
+       (i64.store offset=8
+        (get_local $6)
+        (i64.const 0)
+       )
+      )
+      (i64.store offset=8
+       (get_local $6)
+       (call $~lib/iterator/Iterator<u64>#next|virtual
+        (get_local $4)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $7
+          (i64.ge_u
+           (i64.load offset=8
+            (get_local $6)
+           )
+           (i64.const 50)
+          )
+         )
+         (i64.lt_u
+          (i64.load offset=8
+           (get_local $6)
+          )
+          (i64.const 100)
+         )
+         (get_local $7)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 43)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u64>#has
+         (get_local $0)
+         (i64.load offset=8
+          (get_local $6)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 44)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|4)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 47)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|5
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<u64>#__iterator
+      (call $~lib/set/Set<u64>#keys
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|5
+     (br_if $break|5
+      (call $~lib/iterator/Iterator<u64>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (block
+       (set_local $9
+        (call $~lib/memory/memory.allocate
+         (i32.const 16)
+        )
+       )
+       (i32.store
+        (get_local $9)
+        (get_local $2)
+       )
+       (i64.store offset=8
+        (get_local $9)
+        (i64.const 0)
+       )
+      )
+      (i64.store offset=8
+       (get_local $9)
+       (call $~lib/iterator/Iterator<u64>#next|virtual
+        (get_local $4)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u64>#has
+         (get_local $0)
+         (i64.load offset=8
+          (get_local $9)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 49)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|5)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 52)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|6
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<KeyValue<u64,u64>>#__iterator
+      (call $~lib/set/Set<u64>#entries
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|6
+     (br_if $break|6
+      (call $~lib/iterator/Iterator<KeyValue<u64,u64>>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (set_local $7
+      (call $~lib/iterator/Iterator<KeyValue<u64,u64>>#next|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i64.eq
+         (i64.load
+          (get_local $7)
+         )
+         (i64.load offset=8
+          (get_local $7)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 54)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|6)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 57)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|7
+    (set_local $7
+     (call $~lib/set/Set<u64>#__iterator
+      (get_local $0)
+     )
+    )
+    (loop $repeat|7
+     (br_if $break|7
+      (call $~lib/iterator/Iterator<u64>#get:done|virtual
+       (get_local $7)
+      )
+     )
+     (block
+      (block
+       (set_local $11
+        (call $~lib/memory/memory.allocate
+         (i32.const 16)
+        )
+       )
+       (i32.store
+        (get_local $11)
+        (get_local $2)
+       )
+       (i64.store offset=8
+        (get_local $11)
+        (i64.const 0)
+       )
+      )
+      (i64.store offset=8
+       (get_local $11)
+       (call $~lib/iterator/Iterator<u64>#next|virtual
+        (get_local $7)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<u64>#has
+         (get_local $0)
+         (i64.load offset=8
+          (get_local $11)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 59)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|7)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 62)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/set/Set<u64>#forEach
+    (get_local $0)
+    (block (result i32)
+     (set_local $7
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (i32.store
+      (get_local $7)
+      (i32.const 7)
+     )
+     (i32.store offset=4
+      (get_local $7)
+      (get_local $2)
+     )
+     (get_local $7)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 67)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/set/Set<u64>#clear
+    (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<u64>#get:size
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 71)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+  )
+ )
+ (func $~lib/set/Set<f32>#clear (; 155 ;) (type $iv) (param $0 i32)
+  (i32.store
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 16)
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.sub
+    (get_global $~lib/set/INITIAL_CAPACITY)
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 32)
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_global $~lib/set/INITIAL_CAPACITY)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/set/Set<f32>#constructor (; 156 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/set/Set<f32>#clear
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $1
+        (call $~lib/memory/memory.allocate
+         (i32.const 24)
+        )
+       )
+       (i32.store
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=8
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=12
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=16
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=20
+        (get_local $1)
+        (i32.const 0)
+       )
+       (get_local $1)
+      )
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/hash/hash<f32> (; 157 ;) (type $fi) (param $0 f32) (result i32)
+  (return
+   (call $~lib/internal/hash/hash32
+    (i32.reinterpret/f32
+     (get_local $0)
+    )
+   )
+  )
+ )
+ (func $~lib/set/Set<f32>#find (; 158 ;) (type $ifii) (param $0 i32) (param $1 f32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (i32.mul
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (get_global $~lib/set/BUCKET_SIZE)
+     )
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (get_local $3)
+     (block
+      (block
+       (if
+        (if (result i32)
+         (tee_local $4
+          (i32.eqz
+           (i32.and
+            (i32.load offset=4
+             (get_local $3)
+            )
+            (get_global $~lib/set/EMPTY)
+           )
+          )
+         )
+         (f32.eq
+          (f32.load
+           (get_local $3)
+          )
+          (get_local $1)
+         )
+         (get_local $4)
+        )
+        (return
+         (get_local $3)
+        )
+       )
+       (set_local $3
+        (i32.and
+         (i32.load offset=4
+          (get_local $3)
+         )
+         (i32.xor
+          (get_global $~lib/set/EMPTY)
+          (i32.const -1)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/set/Set<f32>#has (; 159 ;) (type $ifi) (param $0 i32) (param $1 f32) (result i32)
+  (i32.ne
+   (call $~lib/set/Set<f32>#find
+    (get_local $0)
+    (get_local $1)
+    (call $~lib/internal/hash/hash<f32>
+     (get_local $1)
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/set/Set<f32>#rehash (; 160 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 f32)
+  (local $12 i32)
+  (local $13 i32)
+  (set_local $2
+   (i32.add
+    (get_local $1)
+    (i32.const 1)
+   )
+  )
+  (set_local $3
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $2)
+     (get_global $~lib/set/BUCKET_SIZE)
+    )
+    (i32.const 0)
+   )
+  )
+  (set_local $4
+   (i32.trunc_s/f64
+    (f64.mul
+     (f64.convert_s/i32
+      (get_local $2)
+     )
+     (get_global $~lib/set/FILL_FACTOR)
+    )
+   )
+  )
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $4)
+     (block $~lib/set/ENTRY_SIZE<f32>|inlined.1 (result i32)
+      (i32.const 8)
+     )
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $6
+   (i32.add
+    (i32.load offset=8
+     (get_local $0)
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+  )
+  (set_local $7
+   (i32.add
+    (get_local $6)
+    (i32.mul
+     (i32.load offset=16
+      (get_local $0)
+     )
+     (block $~lib/set/ENTRY_SIZE<f32>|inlined.2 (result i32)
+      (i32.const 8)
+     )
+    )
+   )
+  )
+  (set_local $8
+   (i32.add
+    (get_local $5)
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.ne
+      (get_local $6)
+      (get_local $7)
+     )
+     (block
+      (block
+       (set_local $9
+        (get_local $6)
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=4
+           (get_local $9)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (block
+         (set_local $10
+          (get_local $8)
+         )
+         (f32.store
+          (get_local $10)
+          (f32.load
+           (get_local $9)
+          )
+         )
+         (set_local $12
+          (i32.and
+           (block $~lib/internal/hash/hash<f32>|inlined.0 (result i32)
+            (set_local $11
+             (f32.load
+              (get_local $9)
+             )
+            )
+            (br $~lib/internal/hash/hash<f32>|inlined.0
+             (call $~lib/internal/hash/hash32
+              (i32.reinterpret/f32
+               (get_local $11)
+              )
+             )
+            )
+           )
+           (get_local $1)
+          )
+         )
+         (set_local $13
+          (i32.add
+           (get_local $3)
+           (i32.mul
+            (get_local $12)
+            (get_global $~lib/set/BUCKET_SIZE)
+           )
+          )
+         )
+         (i32.store offset=4
+          (get_local $10)
+          (i32.load offset=8
+           (get_local $13)
+          )
+         )
+         (i32.store offset=8
+          (get_local $13)
+          (get_local $8)
+         )
+         (set_local $8
+          (i32.add
+           (get_local $8)
+           (block $~lib/set/ENTRY_SIZE<f32>|inlined.3 (result i32)
+            (i32.const 8)
+           )
+          )
+         )
+        )
+       )
+       (set_local $6
+        (i32.add
+         (get_local $6)
+         (block $~lib/set/ENTRY_SIZE<f32>|inlined.4 (result i32)
+          (i32.const 8)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/Set<f32>#add (; 161 ;) (type $ifv) (param $0 i32) (param $1 f32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (call $~lib/internal/hash/hash<f32>
+    (get_local $1)
+   )
+  )
+  (set_local $3
+   (call $~lib/set/Set<f32>#find
+    (get_local $0)
+    (get_local $1)
+    (get_local $2)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $3)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
+      )
+     )
+     (call $~lib/set/Set<f32>#rehash
+      (get_local $0)
+      (if (result i32)
+       (i32.lt_s
+        (i32.load offset=20
+         (get_local $0)
+        )
+        (i32.trunc_s/f64
+         (f64.mul
+          (f64.convert_s/i32
+           (i32.load offset=12
+            (get_local $0)
+           )
+          )
+          (get_global $~lib/set/FREE_FACTOR)
+         )
+        )
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+       (i32.or
+        (i32.shl
+         (i32.load offset=4
+          (get_local $0)
+         )
+         (i32.const 1)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $4
+     (i32.load offset=8
+      (get_local $0)
+     )
+    )
+    (set_local $3
+     (i32.add
+      (i32.add
+       (get_local $4)
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+      (i32.mul
+       (block (result i32)
+        (set_local $5
+         (i32.load offset=16
+          (get_local $0)
+         )
+        )
+        (i32.store offset=16
+         (get_local $0)
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+       (block $~lib/set/ENTRY_SIZE<f32>|inlined.5 (result i32)
+        (i32.const 8)
+       )
+      )
+     )
+    )
+    (f32.store
+     (get_local $3)
+     (get_local $1)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $5
+     (i32.add
+      (i32.load
+       (get_local $0)
+      )
+      (i32.mul
+       (i32.and
+        (get_local $2)
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (get_global $~lib/set/BUCKET_SIZE)
+      )
+     )
+    )
+    (i32.store offset=4
+     (get_local $3)
+     (i32.load offset=8
+      (get_local $5)
+     )
+    )
+    (i32.store offset=8
+     (get_local $5)
+     (get_local $3)
+    )
+   )
+  )
+ )
+ (func $~lib/set/Set<f32>#get:size (; 162 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=20
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<f32>#delete (; 163 ;) (type $ifi) (param $0 i32) (param $1 f32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (call $~lib/set/Set<f32>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<f32>|inlined.1 (result i32)
+     (br $~lib/internal/hash/hash<f32>|inlined.1
+      (call $~lib/internal/hash/hash32
+       (i32.reinterpret/f32
+        (get_local $1)
+       )
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.or
+    (i32.load offset=4
+     (get_local $2)
+    )
+    (get_global $~lib/set/EMPTY)
+   )
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $3
+   (i32.shr_u
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $4
+     (i32.ge_u
+      (i32.add
+       (get_local $3)
+       (i32.const 1)
+      )
+      (select
+       (tee_local $4
+        (get_global $~lib/set/INITIAL_CAPACITY)
+       )
+       (tee_local $5
+        (i32.load offset=20
+         (get_local $0)
+        )
+       )
+       (i32.gt_u
+        (get_local $4)
+        (get_local $5)
+       )
+      )
+     )
+    )
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $0)
+     )
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $0)
+        )
+       )
+       (get_global $~lib/set/FREE_FACTOR)
+      )
+     )
+    )
+    (get_local $4)
+   )
+   (call $~lib/set/Set<f32>#rehash
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/set/Set<f32>#values (; 164 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 97)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<f32>#__iterator (; 165 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<f32>#keys (; 166 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<f32>#values
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<f32>#entries (; 167 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 102)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<KeyValue<f32,f32>>#__iterator (; 168 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<f32>#__iterator (; 169 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<f32>#values
+   (get_local $0)
+  )
+ )
+ (func $std/set/test<f32>~anonymous|8 (; 170 ;) (type $ffiv) (param $0 f32) (param $1 f32) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (block
+   (if
+    (i32.eqz
+     (f32.eq
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 64)
+      (i32.const 4)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $3)
+    (i32.add
+     (i32.load offset=4
+      (get_local $3)
+     )
+     (i32.const 1)
+    )
+   )
+  )
+ )
+ (func $~lib/set/Set<f32>#forEach (; 171 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $2)
+       (i32.load offset=16
+        (get_local $0)
+       )
+      )
+     )
+    )
+    (block
+     (set_local $3
+      (i32.add
+       (i32.add
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+       )
+       (i32.mul
+        (get_local $2)
+        (block $~lib/set/ENTRY_SIZE<f32>|inlined.6 (result i32)
+         (i32.const 8)
+        )
+       )
+      )
+     )
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=4
+         (get_local $3)
+        )
+        (get_global $~lib/set/EMPTY)
+       )
+      )
+      (block
+       (set_global $~argc
+        (i32.const 3)
+       )
+       (call_indirect (type $ffiv)
+        (f32.load
+         (get_local $3)
+        )
+        (f32.load
+         (get_local $3)
+        )
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (get_local $1)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $std/set/test<f32> (; 172 ;) (type $v)
+  (local $0 i32)
+  (local $1 f32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 f32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 f32)
+  (local $9 i32)
+  (local $10 f32)
+  (local $11 i32)
+  (set_local $2
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
+   )
+  )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block
+   (set_local $0
+    (call $~lib/set/Set<f32>#constructor
+     (i32.const 0)
+    )
+   )
+   (block $break|0
+    (set_local $1
+     (f32.const 0)
+    )
+    (loop $repeat|0
+     (br_if $break|0
+      (i32.eqz
+       (f32.lt
+        (get_local $1)
+        (f32.const 100)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<f32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 8)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/set/Set<f32>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<f32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 10)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (f32.add
+       (get_local $1)
+       (f32.const 1)
+      )
+     )
+     (br $repeat|0)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<f32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 12)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|1
+    (set_local $1
+     (f32.const 50)
+    )
+    (loop $repeat|1
+     (br_if $break|1
+      (i32.eqz
+       (f32.lt
+        (get_local $1)
+        (f32.const 100)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<f32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 16)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/set/Set<f32>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<f32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 18)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (f32.add
+       (get_local $1)
+       (f32.const 1)
+      )
+     )
+     (br $repeat|1)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<f32>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 20)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|2
+    (set_local $1
+     (f32.const 0)
+    )
+    (loop $repeat|2
+     (br_if $break|2
+      (i32.eqz
+       (f32.lt
+        (get_local $1)
+        (f32.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<f32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 24)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/set/Set<f32>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<f32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 26)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (f32.add
+       (get_local $1)
+       (f32.const 1)
+      )
+     )
+     (br $repeat|2)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<f32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 28)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|3
+    (set_local $1
+     (f32.const 0)
+    )
+    (loop $repeat|3
+     (br_if $break|3
+      (i32.eqz
+       (f32.lt
+        (get_local $1)
+        (f32.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<f32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 32)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/set/Set<f32>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<f32>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 34)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/set/Set<f32>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<f32>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 36)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (f32.add
+       (get_local $1)
+       (f32.const 1)
+      )
+     )
+     (br $repeat|3)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<f32>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 38)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $2)
+    (i32.const 0)
+   )
+   (block $break|4
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<f32>#__iterator
+      (call $~lib/set/Set<f32>#values
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|4
+     (br_if $break|4
+      (call $~lib/iterator/Iterator<f32>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (block
+       (set_local $6
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.store
+        (get_local $6)
+        (get_local $2)
+       )
+       (f32.store offset=4
+        (get_local $6)
+        (f32.const 0)
+       )
+      )
+      (f32.store offset=4
+       (get_local $6)
+       (call $~lib/iterator/Iterator<f32>#next|virtual
+        (get_local $4)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $7
+          (f32.ge
+           (f32.load offset=4
+            (get_local $6)
+           )
+           (f32.const 50)
+          )
+         )
+         (f32.lt
+          (f32.load offset=4
+           (get_local $6)
+          )
+          (f32.const 100)
+         )
+         (get_local $7)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 43)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<f32>#has
+         (get_local $0)
+         (f32.load offset=4
+          (get_local $6)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 44)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|4)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 47)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|5
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<f32>#__iterator
+      (call $~lib/set/Set<f32>#keys
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|5
+     (br_if $break|5
+      (call $~lib/iterator/Iterator<f32>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (block
+       (set_local $9
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.store
+        (get_local $9)
+        (get_local $2)
+       )
+       (f32.store offset=4
+        (get_local $9)
+        (f32.const 0)
+       )
+      )
+      (f32.store offset=4
+       (get_local $9)
+       (call $~lib/iterator/Iterator<f32>#next|virtual
+        (get_local $4)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<f32>#has
+         (get_local $0)
+         (f32.load offset=4
+          (get_local $9)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 49)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|5)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 52)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|6
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<KeyValue<f32,f32>>#__iterator
+      (call $~lib/set/Set<f32>#entries
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|6
+     (br_if $break|6
+      (call $~lib/iterator/Iterator<KeyValue<f32,f32>>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (set_local $7
+      (call $~lib/iterator/Iterator<KeyValue<f32,f32>>#next|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (f32.eq
+         (f32.load
+          (get_local $7)
+         )
+         (f32.load offset=4
+          (get_local $7)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 54)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|6)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 57)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|7
+    (set_local $7
+     (call $~lib/set/Set<f32>#__iterator
+      (get_local $0)
+     )
+    )
+    (loop $repeat|7
+     (br_if $break|7
+      (call $~lib/iterator/Iterator<f32>#get:done|virtual
+       (get_local $7)
+      )
+     )
+     (block
+      (block
+       (set_local $11
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.store
+        (get_local $11)
+        (get_local $2)
+       )
+       (f32.store offset=4
+        (get_local $11)
+        (f32.const 0)
+       )
+      )
+      (f32.store offset=4
+       (get_local $11)
+       (call $~lib/iterator/Iterator<f32>#next|virtual
+        (get_local $7)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<f32>#has
+         (get_local $0)
+         (f32.load offset=4
+          (get_local $11)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 59)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|7)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 62)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/set/Set<f32>#forEach
+    (get_local $0)
+    (block (result i32)
+     (set_local $7
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (i32.store
+      (get_local $7)
+      (i32.const 8)
+     )
+     (i32.store offset=4
+      (get_local $7)
+      (get_local $2)
+     )
+     (get_local $7)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 67)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/set/Set<f32>#clear
+    (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<f32>#get:size
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 71)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+  )
+ )
+ (func $~lib/set/Set<f64>#clear (; 173 ;) (type $iv) (param $0 i32)
+  (i32.store
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 16)
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.sub
+    (get_global $~lib/set/INITIAL_CAPACITY)
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.const 64)
+    (i32.const 1)
+   )
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_global $~lib/set/INITIAL_CAPACITY)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/set/Set<f64>#constructor (; 174 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/set/Set<f64>#clear
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $1
+        (call $~lib/memory/memory.allocate
+         (i32.const 24)
+        )
+       )
+       (i32.store
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=8
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=12
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=16
+        (get_local $1)
+        (i32.const 0)
+       )
+       (i32.store offset=20
+        (get_local $1)
+        (i32.const 0)
+       )
+       (get_local $1)
+      )
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/hash/hash<f64> (; 175 ;) (type $Fi) (param $0 f64) (result i32)
+  (return
+   (call $~lib/internal/hash/hash64
+    (i64.reinterpret/f64
+     (get_local $0)
+    )
+   )
+  )
+ )
+ (func $~lib/set/Set<f64>#find (; 176 ;) (type $iFii) (param $0 i32) (param $1 f64) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (i32.mul
+      (i32.and
+       (get_local $2)
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (get_global $~lib/set/BUCKET_SIZE)
+     )
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (get_local $3)
+     (block
+      (block
+       (if
+        (if (result i32)
+         (tee_local $4
+          (i32.eqz
+           (i32.and
+            (i32.load offset=8
+             (get_local $3)
+            )
+            (get_global $~lib/set/EMPTY)
+           )
+          )
+         )
+         (f64.eq
+          (f64.load
+           (get_local $3)
+          )
+          (get_local $1)
+         )
+         (get_local $4)
+        )
+        (return
+         (get_local $3)
+        )
+       )
+       (set_local $3
+        (i32.and
+         (i32.load offset=8
+          (get_local $3)
+         )
+         (i32.xor
+          (get_global $~lib/set/EMPTY)
+          (i32.const -1)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/set/Set<f64>#has (; 177 ;) (type $iFi) (param $0 i32) (param $1 f64) (result i32)
+  (i32.ne
+   (call $~lib/set/Set<f64>#find
+    (get_local $0)
+    (get_local $1)
+    (call $~lib/internal/hash/hash<f64>
+     (get_local $1)
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/set/Set<f64>#rehash (; 178 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 f64)
+  (local $12 i32)
+  (local $13 i32)
+  (set_local $2
+   (i32.add
+    (get_local $1)
+    (i32.const 1)
+   )
+  )
+  (set_local $3
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $2)
+     (get_global $~lib/set/BUCKET_SIZE)
+    )
+    (i32.const 0)
+   )
+  )
+  (set_local $4
+   (i32.trunc_s/f64
+    (f64.mul
+     (f64.convert_s/i32
+      (get_local $2)
+     )
+     (get_global $~lib/set/FILL_FACTOR)
+    )
+   )
+  )
+  (set_local $5
+   (call $~lib/arraybuffer/ArrayBuffer#constructor
+    (i32.const 0)
+    (i32.mul
+     (get_local $4)
+     (block $~lib/set/ENTRY_SIZE<f64>|inlined.1 (result i32)
+      (i32.const 16)
+     )
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $6
+   (i32.add
+    (i32.load offset=8
+     (get_local $0)
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+  )
+  (set_local $7
+   (i32.add
+    (get_local $6)
+    (i32.mul
+     (i32.load offset=16
+      (get_local $0)
+     )
+     (block $~lib/set/ENTRY_SIZE<f64>|inlined.2 (result i32)
+      (i32.const 16)
+     )
+    )
+   )
+  )
+  (set_local $8
+   (i32.add
+    (get_local $5)
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.ne
+      (get_local $6)
+      (get_local $7)
+     )
+     (block
+      (block
+       (set_local $9
+        (get_local $6)
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $9)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (block
+         (set_local $10
+          (get_local $8)
+         )
+         (f64.store
+          (get_local $10)
+          (f64.load
+           (get_local $9)
+          )
+         )
+         (set_local $12
+          (i32.and
+           (block $~lib/internal/hash/hash<f64>|inlined.0 (result i32)
+            (set_local $11
+             (f64.load
+              (get_local $9)
+             )
+            )
+            (br $~lib/internal/hash/hash<f64>|inlined.0
+             (call $~lib/internal/hash/hash64
+              (i64.reinterpret/f64
+               (get_local $11)
+              )
+             )
+            )
+           )
+           (get_local $1)
+          )
+         )
+         (set_local $13
+          (i32.add
+           (get_local $3)
+           (i32.mul
+            (get_local $12)
+            (get_global $~lib/set/BUCKET_SIZE)
+           )
+          )
+         )
+         (i32.store offset=8
+          (get_local $10)
+          (i32.load offset=8
+           (get_local $13)
+          )
+         )
+         (i32.store offset=8
+          (get_local $13)
+          (get_local $8)
+         )
+         (set_local $8
+          (i32.add
+           (get_local $8)
+           (block $~lib/set/ENTRY_SIZE<f64>|inlined.3 (result i32)
+            (i32.const 16)
+           )
+          )
+         )
+        )
+       )
+       (set_local $6
+        (i32.add
+         (get_local $6)
+         (block $~lib/set/ENTRY_SIZE<f64>|inlined.4 (result i32)
+          (i32.const 16)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $5)
+  )
+  (i32.store offset=12
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store offset=16
+   (get_local $0)
+   (i32.load offset=20
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/Set<f64>#add (; 179 ;) (type $iFv) (param $0 i32) (param $1 f64)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (call $~lib/internal/hash/hash<f64>
+    (get_local $1)
+   )
+  )
+  (set_local $3
+   (call $~lib/set/Set<f64>#find
+    (get_local $0)
+    (get_local $1)
+    (get_local $2)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $3)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.load offset=16
+       (get_local $0)
+      )
+      (i32.load offset=12
+       (get_local $0)
+      )
+     )
+     (call $~lib/set/Set<f64>#rehash
+      (get_local $0)
+      (if (result i32)
+       (i32.lt_s
+        (i32.load offset=20
+         (get_local $0)
+        )
+        (i32.trunc_s/f64
+         (f64.mul
+          (f64.convert_s/i32
+           (i32.load offset=12
+            (get_local $0)
+           )
+          )
+          (get_global $~lib/set/FREE_FACTOR)
+         )
+        )
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+       (i32.or
+        (i32.shl
+         (i32.load offset=4
+          (get_local $0)
+         )
+         (i32.const 1)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $4
+     (i32.load offset=8
+      (get_local $0)
+     )
+    )
+    (set_local $3
+     (i32.add
+      (i32.add
+       (get_local $4)
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+      (i32.mul
+       (block (result i32)
+        (set_local $5
+         (i32.load offset=16
+          (get_local $0)
+         )
+        )
+        (i32.store offset=16
+         (get_local $0)
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+       (block $~lib/set/ENTRY_SIZE<f64>|inlined.5 (result i32)
+        (i32.const 16)
+       )
+      )
+     )
+    )
+    (f64.store
+     (get_local $3)
+     (get_local $1)
+    )
+    (i32.store offset=20
+     (get_local $0)
+     (i32.add
+      (i32.load offset=20
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $5
+     (i32.add
+      (i32.load
+       (get_local $0)
+      )
+      (i32.mul
+       (i32.and
+        (get_local $2)
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (get_global $~lib/set/BUCKET_SIZE)
+      )
+     )
+    )
+    (i32.store offset=8
+     (get_local $3)
+     (i32.load offset=8
+      (get_local $5)
+     )
+    )
+    (i32.store offset=8
+     (get_local $5)
+     (get_local $3)
+    )
+   )
+  )
+ )
+ (func $~lib/set/Set<f64>#get:size (; 180 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=20
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<f64>#delete (; 181 ;) (type $iFi) (param $0 i32) (param $1 f64) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (call $~lib/set/Set<f64>#find
+    (get_local $0)
+    (get_local $1)
+    (block $~lib/internal/hash/hash<f64>|inlined.1 (result i32)
+     (br $~lib/internal/hash/hash<f64>|inlined.1
+      (call $~lib/internal/hash/hash64
+       (i64.reinterpret/f64
+        (get_local $1)
+       )
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.store offset=8
+   (get_local $2)
+   (i32.or
+    (i32.load offset=8
+     (get_local $2)
+    )
+    (get_global $~lib/set/EMPTY)
+   )
+  )
+  (i32.store offset=20
+   (get_local $0)
+   (i32.sub
+    (i32.load offset=20
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (set_local $3
+   (i32.shr_u
+    (i32.load offset=4
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $4
+     (i32.ge_u
+      (i32.add
+       (get_local $3)
+       (i32.const 1)
+      )
+      (select
+       (tee_local $4
+        (get_global $~lib/set/INITIAL_CAPACITY)
+       )
+       (tee_local $5
+        (i32.load offset=20
+         (get_local $0)
+        )
+       )
+       (i32.gt_u
+        (get_local $4)
+        (get_local $5)
+       )
+      )
+     )
+    )
+    (i32.lt_s
+     (i32.load offset=20
+      (get_local $0)
+     )
+     (i32.trunc_s/f64
+      (f64.mul
+       (f64.convert_s/i32
+        (i32.load offset=12
+         (get_local $0)
+        )
+       )
+       (get_global $~lib/set/FREE_FACTOR)
+      )
+     )
+    )
+    (get_local $4)
+   )
+   (call $~lib/set/Set<f64>#rehash
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/set/Set<f64>#values (; 182 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 108)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<f64>#__iterator (; 183 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<f64>#keys (; 184 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<f64>#values
+   (get_local $0)
+  )
+ )
+ (func $~lib/set/Set<f64>#entries (; 185 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (block (result i32)
+    (set_local $1
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $2
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 113)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $1)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $1)
+     (i32.const 0)
+    )
+    (get_local $1)
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (get_local $0)
+  )
+  (get_local $3)
+ )
+ (func $~lib/iterator/IterableIterator<KeyValue<f64,f64>>#__iterator (; 186 ;) (type $ii) (param $0 i32) (result i32)
+  (get_local $0)
+ )
+ (func $~lib/set/Set<f64>#__iterator (; 187 ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/set/Set<f64>#values
+   (get_local $0)
+  )
+ )
+ (func $std/set/test<f64>~anonymous|9 (; 188 ;) (type $FFiv) (param $0 f64) (param $1 f64) (param $2 i32)
+  (local $3 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_global $~env)
+   )
+  )
+  (block
+   (if
+    (i32.eqz
+     (f64.eq
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 64)
+      (i32.const 4)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $3)
+    (i32.add
+     (i32.load offset=4
+      (get_local $3)
+     )
+     (i32.const 1)
+    )
+   )
+  )
+ )
+ (func $~lib/set/Set<f64>#forEach (; 189 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $2)
+       (i32.load offset=16
+        (get_local $0)
+       )
+      )
+     )
+    )
+    (block
+     (set_local $3
+      (i32.add
+       (i32.add
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+       )
+       (i32.mul
+        (get_local $2)
+        (block $~lib/set/ENTRY_SIZE<f64>|inlined.6 (result i32)
+         (i32.const 16)
+        )
+       )
+      )
+     )
+     (if
+      (i32.eqz
+       (i32.and
+        (i32.load offset=8
+         (get_local $3)
+        )
+        (get_global $~lib/set/EMPTY)
+       )
+      )
+      (block
+       (set_global $~argc
+        (i32.const 3)
+       )
+       (call_indirect (type $FFiv)
+        (f64.load
+         (get_local $3)
+        )
+        (f64.load
+         (get_local $3)
+        )
+        (get_local $0)
+        (block (result i32)
+         (set_global $~env
+          (get_local $1)
+         )
+         (i32.load
+          (get_global $~env)
+         )
+        )
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $std/set/test<f64> (; 190 ;) (type $v)
+  (local $0 i32)
+  (local $1 f64)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 f64)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 f64)
+  (local $9 i32)
+  (local $10 f64)
+  (local $11 i32)
+  (set_local $2
+   (call $~lib/memory/memory.allocate
+    (i32.const 8)
+   )
+  )
+  (i32.store
+   (get_local $2)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $2)
+   (i32.const 0)
+  )
+  (block
+   (set_local $0
+    (call $~lib/set/Set<f64>#constructor
+     (i32.const 0)
+    )
+   )
+   (block $break|0
+    (set_local $1
+     (f64.const 0)
+    )
+    (loop $repeat|0
+     (br_if $break|0
+      (i32.eqz
+       (f64.lt
+        (get_local $1)
+        (f64.const 100)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<f64>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 8)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/set/Set<f64>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<f64>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 10)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (f64.add
+       (get_local $1)
+       (f64.const 1)
+      )
+     )
+     (br $repeat|0)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<f64>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 12)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|1
+    (set_local $1
+     (f64.const 50)
+    )
+    (loop $repeat|1
+     (br_if $break|1
+      (i32.eqz
+       (f64.lt
+        (get_local $1)
+        (f64.const 100)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<f64>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 16)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/set/Set<f64>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<f64>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 18)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (f64.add
+       (get_local $1)
+       (f64.const 1)
+      )
+     )
+     (br $repeat|1)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<f64>#get:size
+       (get_local $0)
+      )
+      (i32.const 100)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 20)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|2
+    (set_local $1
+     (f64.const 0)
+    )
+    (loop $repeat|2
+     (br_if $break|2
+      (i32.eqz
+       (f64.lt
+        (get_local $1)
+        (f64.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<f64>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 24)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/set/Set<f64>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<f64>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 26)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (f64.add
+       (get_local $1)
+       (f64.const 1)
+      )
+     )
+     (br $repeat|2)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<f64>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 28)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|3
+    (set_local $1
+     (f64.const 0)
+    )
+    (loop $repeat|3
+     (br_if $break|3
+      (i32.eqz
+       (f64.lt
+        (get_local $1)
+        (f64.const 50)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<f64>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 32)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/set/Set<f64>#add
+       (get_local $0)
+       (get_local $1)
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<f64>#has
+         (get_local $0)
+         (get_local $1)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 34)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (drop
+       (call $~lib/set/Set<f64>#delete
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (if
+       (i32.eqz
+        (i32.eqz
+         (call $~lib/set/Set<f64>#has
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 36)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+     )
+     (set_local $1
+      (f64.add
+       (get_local $1)
+       (f64.const 1)
+      )
+     )
+     (br $repeat|3)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<f64>#get:size
+       (get_local $0)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 38)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (i32.store offset=4
+    (get_local $2)
+    (i32.const 0)
+   )
+   (block $break|4
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<f64>#__iterator
+      (call $~lib/set/Set<f64>#values
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|4
+     (br_if $break|4
+      (call $~lib/iterator/Iterator<f64>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (block
+       (set_local $6
+        (call $~lib/memory/memory.allocate
+         (i32.const 16)
+        )
+       )
+       (i32.store
+        (get_local $6)
+        (get_local $2)
+       )
+       (f64.store offset=8
+        (get_local $6)
+        (f64.const 0)
+       )
+      )
+      (f64.store offset=8
+       (get_local $6)
+       (call $~lib/iterator/Iterator<f64>#next|virtual
+        (get_local $4)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (if (result i32)
+         (tee_local $7
+          (f64.ge
+           (f64.load offset=8
+            (get_local $6)
+           )
+           (f64.const 50)
+          )
+         )
+         (f64.lt
+          (f64.load offset=8
+           (get_local $6)
+          )
+          (f64.const 100)
+         )
+         (get_local $7)
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 43)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<f64>#has
+         (get_local $0)
+         (f64.load offset=8
+          (get_local $6)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 44)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|4)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 47)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|5
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<f64>#__iterator
+      (call $~lib/set/Set<f64>#keys
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|5
+     (br_if $break|5
+      (call $~lib/iterator/Iterator<f64>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (block
+       (set_local $9
+        (call $~lib/memory/memory.allocate
+         (i32.const 16)
+        )
+       )
+       (i32.store
+        (get_local $9)
+        (get_local $2)
+       )
+       (f64.store offset=8
+        (get_local $9)
+        (f64.const 0)
+       )
+      )
+      (f64.store offset=8
+       (get_local $9)
+       (call $~lib/iterator/Iterator<f64>#next|virtual
+        (get_local $4)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<f64>#has
+         (get_local $0)
+         (f64.load offset=8
+          (get_local $9)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 49)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|5)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 52)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|6
+    (set_local $4
+     (call $~lib/iterator/IterableIterator<KeyValue<f64,f64>>#__iterator
+      (call $~lib/set/Set<f64>#entries
+       (get_local $0)
+      )
+     )
+    )
+    (loop $repeat|6
+     (br_if $break|6
+      (call $~lib/iterator/Iterator<KeyValue<f64,f64>>#get:done|virtual
+       (get_local $4)
+      )
+     )
+     (set_local $7
+      (call $~lib/iterator/Iterator<KeyValue<f64,f64>>#next|virtual
+       (get_local $4)
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (f64.eq
+         (f64.load
+          (get_local $7)
+         )
+         (f64.load offset=8
+          (get_local $7)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 54)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.add
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|6)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 57)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (block $break|7
+    (set_local $7
+     (call $~lib/set/Set<f64>#__iterator
+      (get_local $0)
+     )
+    )
+    (loop $repeat|7
+     (br_if $break|7
+      (call $~lib/iterator/Iterator<f64>#get:done|virtual
+       (get_local $7)
+      )
+     )
+     (block
+      (block
+       (set_local $11
+        (call $~lib/memory/memory.allocate
+         (i32.const 16)
+        )
+       )
+       (i32.store
+        (get_local $11)
+        (get_local $2)
+       )
+       (f64.store offset=8
+        (get_local $11)
+        (f64.const 0)
+       )
+      )
+      (f64.store offset=8
+       (get_local $11)
+       (call $~lib/iterator/Iterator<f64>#next|virtual
+        (get_local $7)
+       )
+      )
+     )
+     (block
+      (if
+       (i32.eqz
+        (call $~lib/set/Set<f64>#has
+         (get_local $0)
+         (f64.load offset=8
+          (get_local $11)
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 120)
+         (i32.const 59)
+         (i32.const 4)
+        )
+        (unreachable)
+       )
+      )
+      (i32.store offset=4
+       (get_local $2)
+       (i32.sub
+        (i32.load offset=4
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (br $repeat|7)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 62)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/set/Set<f64>#forEach
+    (get_local $0)
+    (block (result i32)
+     (set_local $7
+      (call $~lib/memory/memory.allocate
+       (i32.const 8)
+      )
+     )
+     (i32.store
+      (get_local $7)
+      (i32.const 9)
+     )
+     (i32.store offset=4
+      (get_local $7)
+      (get_local $2)
+     )
+     (get_local $7)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (i32.load offset=4
+       (get_local $2)
+      )
+      (i32.const 50)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 67)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+   (call $~lib/set/Set<f64>#clear
+    (get_local $0)
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $~lib/set/Set<f64>#get:size
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 120)
+      (i32.const 71)
+      (i32.const 2)
+     )
+     (unreachable)
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetIterator<i8,i8>#get:done (; 191 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/set/ENTRY_SIZE<i8>|inlined.7 (result i32)
+           (i32.const 8)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=4
+           (get_local $4)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/set/SetIterator<i8,i8>#nextEntry (; 192 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/set/SetIterator<i8,i8>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/set/ENTRY_SIZE<i8>|inlined.8 (result i32)
+     (i32.const 8)
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetValueIterator<i8>#next (; 193 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load8_s
+   (call $~lib/set/SetIterator<i8,i8>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/SetIterator<i8,KeyValue<i8,i8>>#get:done (; 194 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/set/ENTRY_SIZE<i8>|inlined.9 (result i32)
+           (i32.const 8)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=4
+           (get_local $4)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/set/SetIterator<i8,KeyValue<i8,i8>>#nextEntry (; 195 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/set/SetIterator<i8,KeyValue<i8,i8>>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/set/ENTRY_SIZE<i8>|inlined.10 (result i32)
+     (i32.const 8)
+    )
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<i8,i8>#constructor (; 196 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 2)
+       )
+      )
+      (i32.store8
+       (get_local $3)
+       (get_local $1)
+      )
+      (i32.store8 offset=1
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetEntryIterator<i8>#next (; 197 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load8_s
+    (call $~lib/set/SetIterator<i8,KeyValue<i8,i8>>#nextEntry
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/map/KeyValue<i8,i8>#constructor
+   (i32.const 0)
+   (get_local $1)
+   (get_local $1)
+  )
+ )
+ (func $~lib/set/SetIterator<u8,u8>#get:done (; 198 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/set/ENTRY_SIZE<u8>|inlined.7 (result i32)
+           (i32.const 8)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=4
+           (get_local $4)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/set/SetIterator<u8,u8>#nextEntry (; 199 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/set/SetIterator<u8,u8>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/set/ENTRY_SIZE<u8>|inlined.8 (result i32)
+     (i32.const 8)
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetValueIterator<u8>#next (; 200 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load8_u
+   (call $~lib/set/SetIterator<u8,u8>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/SetIterator<u8,KeyValue<u8,u8>>#get:done (; 201 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/set/ENTRY_SIZE<u8>|inlined.9 (result i32)
+           (i32.const 8)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=4
+           (get_local $4)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/set/SetIterator<u8,KeyValue<u8,u8>>#nextEntry (; 202 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/set/SetIterator<u8,KeyValue<u8,u8>>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/set/ENTRY_SIZE<u8>|inlined.10 (result i32)
+     (i32.const 8)
+    )
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<u8,u8>#constructor (; 203 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 2)
+       )
+      )
+      (i32.store8
+       (get_local $3)
+       (get_local $1)
+      )
+      (i32.store8 offset=1
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetEntryIterator<u8>#next (; 204 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load8_u
+    (call $~lib/set/SetIterator<u8,KeyValue<u8,u8>>#nextEntry
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/map/KeyValue<u8,u8>#constructor
+   (i32.const 0)
+   (get_local $1)
+   (get_local $1)
+  )
+ )
+ (func $~lib/set/SetIterator<i16,i16>#get:done (; 205 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/set/ENTRY_SIZE<i16>|inlined.7 (result i32)
+           (i32.const 8)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=4
+           (get_local $4)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/set/SetIterator<i16,i16>#nextEntry (; 206 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/set/SetIterator<i16,i16>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/set/ENTRY_SIZE<i16>|inlined.8 (result i32)
+     (i32.const 8)
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetValueIterator<i16>#next (; 207 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load16_s
+   (call $~lib/set/SetIterator<i16,i16>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/SetIterator<i16,KeyValue<i16,i16>>#get:done (; 208 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/set/ENTRY_SIZE<i16>|inlined.9 (result i32)
+           (i32.const 8)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=4
+           (get_local $4)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/set/SetIterator<i16,KeyValue<i16,i16>>#nextEntry (; 209 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/set/SetIterator<i16,KeyValue<i16,i16>>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/set/ENTRY_SIZE<i16>|inlined.10 (result i32)
+     (i32.const 8)
+    )
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<i16,i16>#constructor (; 210 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 4)
+       )
+      )
+      (i32.store16
+       (get_local $3)
+       (get_local $1)
+      )
+      (i32.store16 offset=2
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetEntryIterator<i16>#next (; 211 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load16_s
+    (call $~lib/set/SetIterator<i16,KeyValue<i16,i16>>#nextEntry
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/map/KeyValue<i16,i16>#constructor
+   (i32.const 0)
+   (get_local $1)
+   (get_local $1)
+  )
+ )
+ (func $~lib/set/SetIterator<u16,u16>#get:done (; 212 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/set/ENTRY_SIZE<u16>|inlined.7 (result i32)
+           (i32.const 8)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=4
+           (get_local $4)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/set/SetIterator<u16,u16>#nextEntry (; 213 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/set/SetIterator<u16,u16>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/set/ENTRY_SIZE<u16>|inlined.8 (result i32)
+     (i32.const 8)
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetValueIterator<u16>#next (; 214 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load16_u
+   (call $~lib/set/SetIterator<u16,u16>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/SetIterator<u16,KeyValue<u16,u16>>#get:done (; 215 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/set/ENTRY_SIZE<u16>|inlined.9 (result i32)
+           (i32.const 8)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=4
+           (get_local $4)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/set/SetIterator<u16,KeyValue<u16,u16>>#nextEntry (; 216 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/set/SetIterator<u16,KeyValue<u16,u16>>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/set/ENTRY_SIZE<u16>|inlined.10 (result i32)
+     (i32.const 8)
+    )
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<u16,u16>#constructor (; 217 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 4)
+       )
+      )
+      (i32.store16
+       (get_local $3)
+       (get_local $1)
+      )
+      (i32.store16 offset=2
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetEntryIterator<u16>#next (; 218 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load16_u
+    (call $~lib/set/SetIterator<u16,KeyValue<u16,u16>>#nextEntry
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/map/KeyValue<u16,u16>#constructor
+   (i32.const 0)
+   (get_local $1)
+   (get_local $1)
+  )
+ )
+ (func $~lib/set/SetIterator<i32,i32>#get:done (; 219 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/set/ENTRY_SIZE<i32>|inlined.7 (result i32)
+           (i32.const 8)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=4
+           (get_local $4)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/set/SetIterator<i32,i32>#nextEntry (; 220 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/set/SetIterator<i32,i32>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/set/ENTRY_SIZE<i32>|inlined.8 (result i32)
+     (i32.const 8)
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetValueIterator<i32>#next (; 221 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load
+   (call $~lib/set/SetIterator<i32,i32>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/SetIterator<i32,KeyValue<i32,i32>>#get:done (; 222 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/set/ENTRY_SIZE<i32>|inlined.9 (result i32)
+           (i32.const 8)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=4
+           (get_local $4)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/set/SetIterator<i32,KeyValue<i32,i32>>#nextEntry (; 223 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/set/SetIterator<i32,KeyValue<i32,i32>>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/set/ENTRY_SIZE<i32>|inlined.10 (result i32)
+     (i32.const 8)
+    )
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<i32,i32>#constructor (; 224 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 8)
+       )
+      )
+      (i32.store
+       (get_local $3)
+       (get_local $1)
+      )
+      (i32.store offset=4
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetEntryIterator<i32>#next (; 225 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (call $~lib/set/SetIterator<i32,KeyValue<i32,i32>>#nextEntry
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/map/KeyValue<i32,i32>#constructor
+   (i32.const 0)
+   (get_local $1)
+   (get_local $1)
+  )
+ )
+ (func $~lib/set/SetIterator<u32,u32>#get:done (; 226 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/set/ENTRY_SIZE<u32>|inlined.7 (result i32)
+           (i32.const 8)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=4
+           (get_local $4)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/set/SetIterator<u32,u32>#nextEntry (; 227 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/set/SetIterator<u32,u32>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/set/ENTRY_SIZE<u32>|inlined.8 (result i32)
+     (i32.const 8)
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetValueIterator<u32>#next (; 228 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load
+   (call $~lib/set/SetIterator<u32,u32>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/SetIterator<u32,KeyValue<u32,u32>>#get:done (; 229 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/set/ENTRY_SIZE<u32>|inlined.9 (result i32)
+           (i32.const 8)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=4
+           (get_local $4)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/set/SetIterator<u32,KeyValue<u32,u32>>#nextEntry (; 230 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/set/SetIterator<u32,KeyValue<u32,u32>>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/set/ENTRY_SIZE<u32>|inlined.10 (result i32)
+     (i32.const 8)
+    )
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<u32,u32>#constructor (; 231 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 8)
+       )
+      )
+      (i32.store
+       (get_local $3)
+       (get_local $1)
+      )
+      (i32.store offset=4
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetEntryIterator<u32>#next (; 232 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (call $~lib/set/SetIterator<u32,KeyValue<u32,u32>>#nextEntry
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/map/KeyValue<u32,u32>#constructor
+   (i32.const 0)
+   (get_local $1)
+   (get_local $1)
+  )
+ )
+ (func $~lib/set/SetIterator<i64,i64>#get:done (; 233 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/set/ENTRY_SIZE<i64>|inlined.7 (result i32)
+           (i32.const 16)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/set/SetIterator<i64,i64>#nextEntry (; 234 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/set/SetIterator<i64,i64>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/set/ENTRY_SIZE<i64>|inlined.8 (result i32)
+     (i32.const 16)
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetValueIterator<i64>#next (; 235 ;) (type $iI) (param $0 i32) (result i64)
+  (i64.load
+   (call $~lib/set/SetIterator<i64,i64>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/SetIterator<i64,KeyValue<i64,i64>>#get:done (; 236 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/set/ENTRY_SIZE<i64>|inlined.9 (result i32)
+           (i32.const 16)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/set/SetIterator<i64,KeyValue<i64,i64>>#nextEntry (; 237 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/set/SetIterator<i64,KeyValue<i64,i64>>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/set/ENTRY_SIZE<i64>|inlined.10 (result i32)
+     (i32.const 16)
+    )
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<i64,i64>#constructor (; 238 ;) (type $iIIi) (param $0 i32) (param $1 i64) (param $2 i64) (result i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 16)
+       )
+      )
+      (i64.store
+       (get_local $3)
+       (get_local $1)
+      )
+      (i64.store offset=8
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetEntryIterator<i64>#next (; 239 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i64)
+  (set_local $1
+   (i64.load
+    (call $~lib/set/SetIterator<i64,KeyValue<i64,i64>>#nextEntry
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/map/KeyValue<i64,i64>#constructor
+   (i32.const 0)
+   (get_local $1)
+   (get_local $1)
+  )
+ )
+ (func $~lib/set/SetIterator<u64,u64>#get:done (; 240 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/set/ENTRY_SIZE<u64>|inlined.7 (result i32)
+           (i32.const 16)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/set/SetIterator<u64,u64>#nextEntry (; 241 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/set/SetIterator<u64,u64>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/set/ENTRY_SIZE<u64>|inlined.8 (result i32)
+     (i32.const 16)
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetValueIterator<u64>#next (; 242 ;) (type $iI) (param $0 i32) (result i64)
+  (i64.load
+   (call $~lib/set/SetIterator<u64,u64>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/SetIterator<u64,KeyValue<u64,u64>>#get:done (; 243 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/set/ENTRY_SIZE<u64>|inlined.9 (result i32)
+           (i32.const 16)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/set/SetIterator<u64,KeyValue<u64,u64>>#nextEntry (; 244 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/set/SetIterator<u64,KeyValue<u64,u64>>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/set/ENTRY_SIZE<u64>|inlined.10 (result i32)
+     (i32.const 16)
+    )
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<u64,u64>#constructor (; 245 ;) (type $iIIi) (param $0 i32) (param $1 i64) (param $2 i64) (result i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 16)
+       )
+      )
+      (i64.store
+       (get_local $3)
+       (get_local $1)
+      )
+      (i64.store offset=8
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetEntryIterator<u64>#next (; 246 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i64)
+  (set_local $1
+   (i64.load
+    (call $~lib/set/SetIterator<u64,KeyValue<u64,u64>>#nextEntry
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/map/KeyValue<u64,u64>#constructor
+   (i32.const 0)
+   (get_local $1)
+   (get_local $1)
+  )
+ )
+ (func $~lib/set/SetIterator<f32,f32>#get:done (; 247 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/set/ENTRY_SIZE<f32>|inlined.7 (result i32)
+           (i32.const 8)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=4
+           (get_local $4)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/set/SetIterator<f32,f32>#nextEntry (; 248 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/set/SetIterator<f32,f32>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/set/ENTRY_SIZE<f32>|inlined.8 (result i32)
+     (i32.const 8)
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetValueIterator<f32>#next (; 249 ;) (type $if) (param $0 i32) (result f32)
+  (f32.load
+   (call $~lib/set/SetIterator<f32,f32>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/SetIterator<f32,KeyValue<f32,f32>>#get:done (; 250 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/set/ENTRY_SIZE<f32>|inlined.9 (result i32)
+           (i32.const 8)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=4
+           (get_local $4)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/set/SetIterator<f32,KeyValue<f32,f32>>#nextEntry (; 251 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/set/SetIterator<f32,KeyValue<f32,f32>>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/set/ENTRY_SIZE<f32>|inlined.10 (result i32)
+     (i32.const 8)
+    )
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<f32,f32>#constructor (; 252 ;) (type $iffi) (param $0 i32) (param $1 f32) (param $2 f32) (result i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 8)
+       )
+      )
+      (f32.store
+       (get_local $3)
+       (get_local $1)
+      )
+      (f32.store offset=4
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetEntryIterator<f32>#next (; 253 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 f32)
+  (set_local $1
+   (f32.load
+    (call $~lib/set/SetIterator<f32,KeyValue<f32,f32>>#nextEntry
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/map/KeyValue<f32,f32>#constructor
+   (i32.const 0)
+   (get_local $1)
+   (get_local $1)
+  )
+ )
+ (func $~lib/set/SetIterator<f64,f64>#get:done (; 254 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/set/ENTRY_SIZE<f64>|inlined.7 (result i32)
+           (i32.const 16)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/set/SetIterator<f64,f64>#nextEntry (; 255 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/set/SetIterator<f64,f64>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/set/ENTRY_SIZE<f64>|inlined.8 (result i32)
+     (i32.const 16)
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetValueIterator<f64>#next (; 256 ;) (type $iF) (param $0 i32) (result f64)
+  (f64.load
+   (call $~lib/set/SetIterator<f64,f64>#nextEntry
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/set/SetIterator<f64,KeyValue<f64,f64>>#get:done (; 257 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=16
+    (get_local $1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_s
+      (get_local $2)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.add
+         (i32.add
+          (i32.load offset=8
+           (get_local $1)
+          )
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (i32.mul
+          (get_local $2)
+          (block $~lib/set/ENTRY_SIZE<f64>|inlined.9 (result i32)
+           (i32.const 16)
+          )
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (i32.and
+          (i32.load offset=8
+           (get_local $4)
+          )
+          (get_global $~lib/set/EMPTY)
+         )
+        )
+        (br $break|0)
+       )
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.ge_s
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/set/SetIterator<f64,KeyValue<f64,f64>>#nextEntry (; 258 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (call $~lib/set/SetIterator<f64,KeyValue<f64,f64>>#get:done
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 144)
+     (i32.const 235)
+     (i32.const 19)
+    )
+    (unreachable)
+   )
+  )
+  (i32.add
+   (i32.add
+    (i32.load offset=8
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+   )
+   (i32.mul
+    (block (result i32)
+     (set_local $1
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.store offset=4
+      (get_local $0)
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (get_local $1)
+    )
+    (block $~lib/set/ENTRY_SIZE<f64>|inlined.10 (result i32)
+     (i32.const 16)
+    )
+   )
+  )
+ )
+ (func $~lib/map/KeyValue<f64,f64>#constructor (; 259 ;) (type $iFFi) (param $0 i32) (param $1 f64) (param $2 f64) (result i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (call $~lib/memory/memory.allocate
+        (i32.const 16)
+       )
+      )
+      (f64.store
+       (get_local $3)
+       (get_local $1)
+      )
+      (f64.store offset=8
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/set/SetEntryIterator<f64>#next (; 260 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 f64)
+  (set_local $1
+   (f64.load
+    (call $~lib/set/SetIterator<f64,KeyValue<f64,f64>>#nextEntry
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/map/KeyValue<f64,f64>#constructor
+   (i32.const 0)
+   (get_local $1)
+   (get_local $1)
+  )
+ )
+ (func $~lib/iterator/Iterator<i8>#get:done|virtual (; 261 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 8)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 9)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<i8,i8>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i8>#next|virtual (; 262 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 9)
+   )
+   (return
+    (call $~lib/set/SetValueIterator<i8>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i8,i8>>#get:done|virtual (; 263 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 13)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 14)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<i8,KeyValue<i8,i8>>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i8,i8>>#next|virtual (; 264 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 14)
+   )
+   (return
+    (call $~lib/set/SetEntryIterator<i8>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u8>#get:done|virtual (; 265 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 19)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 20)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<u8,u8>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u8>#next|virtual (; 266 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 20)
+   )
+   (return
+    (call $~lib/set/SetValueIterator<u8>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u8,u8>>#get:done|virtual (; 267 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 24)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 25)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<u8,KeyValue<u8,u8>>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u8,u8>>#next|virtual (; 268 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 25)
+   )
+   (return
+    (call $~lib/set/SetEntryIterator<u8>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i16>#get:done|virtual (; 269 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 30)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 31)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<i16,i16>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i16>#next|virtual (; 270 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 31)
+   )
+   (return
+    (call $~lib/set/SetValueIterator<i16>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i16,i16>>#get:done|virtual (; 271 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 35)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 36)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<i16,KeyValue<i16,i16>>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i16,i16>>#next|virtual (; 272 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 36)
+   )
+   (return
+    (call $~lib/set/SetEntryIterator<i16>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u16>#get:done|virtual (; 273 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 41)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 42)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<u16,u16>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u16>#next|virtual (; 274 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 42)
+   )
+   (return
+    (call $~lib/set/SetValueIterator<u16>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u16,u16>>#get:done|virtual (; 275 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 46)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 47)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<u16,KeyValue<u16,u16>>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u16,u16>>#next|virtual (; 276 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 47)
+   )
+   (return
+    (call $~lib/set/SetEntryIterator<u16>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i32>#get:done|virtual (; 277 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 52)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 53)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<i32,i32>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i32>#next|virtual (; 278 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 53)
+   )
+   (return
+    (call $~lib/set/SetValueIterator<i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i32,i32>>#get:done|virtual (; 279 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 57)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 58)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<i32,KeyValue<i32,i32>>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i32,i32>>#next|virtual (; 280 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 58)
+   )
+   (return
+    (call $~lib/set/SetEntryIterator<i32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u32>#get:done|virtual (; 281 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 63)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 64)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<u32,u32>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u32>#next|virtual (; 282 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 64)
+   )
+   (return
+    (call $~lib/set/SetValueIterator<u32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u32,u32>>#get:done|virtual (; 283 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 68)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 69)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<u32,KeyValue<u32,u32>>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u32,u32>>#next|virtual (; 284 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 69)
+   )
+   (return
+    (call $~lib/set/SetEntryIterator<u32>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i64>#get:done|virtual (; 285 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 74)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 75)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<i64,i64>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<i64>#next|virtual (; 286 ;) (type $iI) (param $0 i32) (result i64)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 75)
+   )
+   (return
+    (call $~lib/set/SetValueIterator<i64>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i64,i64>>#get:done|virtual (; 287 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 79)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 80)
+    )
+   )
+   (return
+    (call $~lib/set/SetIterator<i64,KeyValue<i64,i64>>#get:done
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<i64,i64>>#next|virtual (; 288 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 80)
+   )
+   (return
+    (call $~lib/set/SetEntryIterator<i64>#next
+     (get_local $0)
     )
-    (i32.store offset=20
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<u64>#get:done|virtual (; 289 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
      (get_local $0)
-     (i32.add
-      (i32.load offset=20
-       (get_local $0)
-      )
-      (i32.const 1)
-     )
+     (i32.const 4)
     )
-    (set_local $5
-     (i32.add
-      (i32.load
-       (get_local $0)
-      )
-      (i32.mul
-       (i32.and
-        (get_local $2)
-        (i32.load offset=4
-         (get_local $0)
-        )
-       )
-       (get_global $~lib/set/BUCKET_SIZE)
-      )
-     )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 85)
     )
-    (i32.store offset=8
-     (get_local $3)
-     (i32.load offset=8
-      (get_local $5)
-     )
+    (i32.eq
+     (get_local $1)
+     (i32.const 86)
     )
-    (i32.store offset=8
-     (get_local $5)
-     (get_local $3)
+   )
+   (return
+    (call $~lib/set/SetIterator<u64,u64>#get:done
+     (get_local $0)
     )
    )
   )
+  (unreachable)
  )
- (func $~lib/set/Set<f64>#get:size (; 108 ;) (type $ii) (param $0 i32) (result i32)
-  (i32.load offset=20
-   (get_local $0)
+ (func $~lib/iterator/Iterator<u64>#next|virtual (; 290 ;) (type $iI) (param $0 i32) (result i64)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
   )
- )
- (func $~lib/set/Set<f64>#delete (; 109 ;) (type $iFi) (param $0 i32) (param $1 f64) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (set_local $2
-   (call $~lib/set/Set<f64>#find
-    (get_local $0)
+  (if
+   (i32.eq
     (get_local $1)
-    (block $~lib/internal/hash/hash<f64>|inlined.1 (result i32)
-     (br $~lib/internal/hash/hash<f64>|inlined.1
-      (call $~lib/internal/hash/hash64
-       (i64.reinterpret/f64
-        (get_local $1)
-       )
-      )
-     )
+    (i32.const 86)
+   )
+   (return
+    (call $~lib/set/SetValueIterator<u64>#next
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u64,u64>>#get:done|virtual (; 291 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
    )
   )
   (if
-   (i32.eqz
-    (get_local $2)
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 90)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 91)
+    )
    )
    (return
-    (i32.const 0)
+    (call $~lib/set/SetIterator<u64,KeyValue<u64,u64>>#get:done
+     (get_local $0)
+    )
    )
   )
-  (i32.store offset=8
-   (get_local $2)
-   (i32.or
-    (i32.load offset=8
-     (get_local $2)
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<u64,u64>>#next|virtual (; 292 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
-    (get_global $~lib/set/EMPTY)
    )
   )
-  (i32.store offset=20
-   (get_local $0)
-   (i32.sub
-    (i32.load offset=20
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 91)
+   )
+   (return
+    (call $~lib/set/SetEntryIterator<u64>#next
      (get_local $0)
     )
-    (i32.const 1)
    )
   )
-  (set_local $3
-   (i32.shr_u
-    (i32.load offset=4
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<f32>#get:done|virtual (; 293 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
      (get_local $0)
+     (i32.const 4)
     )
-    (i32.const 1)
    )
   )
   (if
-   (if (result i32)
-    (tee_local $4
-     (i32.ge_u
-      (i32.add
-       (get_local $3)
-       (i32.const 1)
-      )
-      (select
-       (tee_local $4
-        (get_global $~lib/set/INITIAL_CAPACITY)
-       )
-       (tee_local $5
-        (i32.load offset=20
-         (get_local $0)
-        )
-       )
-       (i32.gt_u
-        (get_local $4)
-        (get_local $5)
-       )
-      )
-     )
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 96)
     )
-    (i32.lt_s
-     (i32.load offset=20
-      (get_local $0)
-     )
-     (i32.trunc_s/f64
-      (f64.mul
-       (f64.convert_s/i32
-        (i32.load offset=12
-         (get_local $0)
-        )
-       )
-       (get_global $~lib/set/FREE_FACTOR)
-      )
-     )
+    (i32.eq
+     (get_local $1)
+     (i32.const 97)
     )
-    (get_local $4)
    )
-   (call $~lib/set/Set<f64>#rehash
-    (get_local $0)
-    (get_local $3)
+   (return
+    (call $~lib/set/SetIterator<f32,f32>#get:done
+     (get_local $0)
+    )
    )
   )
-  (i32.const 1)
+  (unreachable)
  )
- (func $std/set/test<f64> (; 110 ;) (type $v)
-  (local $0 i32)
-  (local $1 f64)
-  (set_local $0
-   (call $~lib/set/Set<f64>#constructor
-    (i32.const 0)
+ (func $~lib/iterator/Iterator<f32>#next|virtual (; 294 ;) (type $if) (param $0 i32) (result f32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
    )
   )
-  (block $break|0
-   (set_local $1
-    (f64.const 0)
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 97)
    )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (f64.lt
-       (get_local $1)
-       (f64.const 100)
-      )
-     )
+   (return
+    (call $~lib/set/SetValueIterator<f32>#next
+     (get_local $0)
     )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<f64>#has
-         (get_local $0)
-         (get_local $1)
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 8)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/set/Set<f64>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<f64>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 10)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<f32,f32>>#get:done|virtual (; 295 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
-    (set_local $1
-     (f64.add
-      (get_local $1)
-      (f64.const 1)
-     )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 101)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 102)
     )
-    (br $repeat|0)
    )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<f64>#get:size
-      (get_local $0)
-     )
-     (i32.const 100)
+   (return
+    (call $~lib/set/SetIterator<f32,KeyValue<f32,f32>>#get:done
+     (get_local $0)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 12)
-     (i32.const 2)
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<f32,f32>>#next|virtual (; 296 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
-    (unreachable)
    )
   )
-  (block $break|1
-   (set_local $1
-    (f64.const 50)
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 102)
    )
-   (loop $repeat|1
-    (br_if $break|1
-     (i32.eqz
-      (f64.lt
-       (get_local $1)
-       (f64.const 100)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<f64>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 16)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/set/Set<f64>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<f64>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 18)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
+   (return
+    (call $~lib/set/SetEntryIterator<f32>#next
+     (get_local $0)
     )
-    (set_local $1
-     (f64.add
-      (get_local $1)
-      (f64.const 1)
-     )
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<f64>#get:done|virtual (; 297 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
-    (br $repeat|1)
    )
   )
   (if
-   (i32.eqz
+   (i32.or
     (i32.eq
-     (call $~lib/set/Set<f64>#get:size
-      (get_local $0)
-     )
-     (i32.const 100)
+     (get_local $1)
+     (i32.const 107)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 108)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 20)
-     (i32.const 2)
+   (return
+    (call $~lib/set/SetIterator<f64,f64>#get:done
+     (get_local $0)
     )
-    (unreachable)
    )
   )
-  (block $break|2
-   (set_local $1
-    (f64.const 0)
-   )
-   (loop $repeat|2
-    (br_if $break|2
-     (i32.eqz
-      (f64.lt
-       (get_local $1)
-       (f64.const 50)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<f64>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 24)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (drop
-      (call $~lib/set/Set<f64>#delete
-       (get_local $0)
-       (get_local $1)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<f64>#has
-         (get_local $0)
-         (get_local $1)
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 26)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-    )
-    (set_local $1
-     (f64.add
-      (get_local $1)
-      (f64.const 1)
-     )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<f64>#next|virtual (; 298 ;) (type $iF) (param $0 i32) (result f64)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
-    (br $repeat|2)
    )
   )
   (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<f64>#get:size
-      (get_local $0)
-     )
-     (i32.const 50)
-    )
+   (i32.eq
+    (get_local $1)
+    (i32.const 108)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 28)
-     (i32.const 2)
+   (return
+    (call $~lib/set/SetValueIterator<f64>#next
+     (get_local $0)
     )
-    (unreachable)
    )
   )
-  (block $break|3
-   (set_local $1
-    (f64.const 0)
-   )
-   (loop $repeat|3
-    (br_if $break|3
-     (i32.eqz
-      (f64.lt
-       (get_local $1)
-       (f64.const 50)
-      )
-     )
-    )
-    (block
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<f64>#has
-         (get_local $0)
-         (get_local $1)
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 32)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (call $~lib/set/Set<f64>#add
-      (get_local $0)
-      (get_local $1)
-     )
-     (if
-      (i32.eqz
-       (call $~lib/set/Set<f64>#has
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 34)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-     (drop
-      (call $~lib/set/Set<f64>#delete
-       (get_local $0)
-       (get_local $1)
-      )
-     )
-     (if
-      (i32.eqz
-       (i32.eqz
-        (call $~lib/set/Set<f64>#has
-         (get_local $0)
-         (get_local $1)
-        )
-       )
-      )
-      (block
-       (call $~lib/env/abort
-        (i32.const 0)
-        (i32.const 120)
-        (i32.const 36)
-        (i32.const 4)
-       )
-       (unreachable)
-      )
-     )
-    )
-    (set_local $1
-     (f64.add
-      (get_local $1)
-      (f64.const 1)
-     )
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<f64,f64>>#get:done|virtual (; 299 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
     )
-    (br $repeat|3)
    )
   )
   (if
-   (i32.eqz
+   (i32.or
     (i32.eq
-     (call $~lib/set/Set<f64>#get:size
-      (get_local $0)
-     )
-     (i32.const 50)
+     (get_local $1)
+     (i32.const 112)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 113)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 38)
-     (i32.const 2)
+   (return
+    (call $~lib/set/SetIterator<f64,KeyValue<f64,f64>>#get:done
+     (get_local $0)
     )
-    (unreachable)
    )
   )
-  (call $~lib/set/Set<f64>#clear
-   (get_local $0)
+  (unreachable)
+ )
+ (func $~lib/iterator/Iterator<KeyValue<f64,f64>>#next|virtual (; 300 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
   )
   (if
-   (i32.eqz
-    (i32.eq
-     (call $~lib/set/Set<f64>#get:size
-      (get_local $0)
-     )
-     (i32.const 0)
-    )
+   (i32.eq
+    (get_local $1)
+    (i32.const 113)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 120)
-     (i32.const 42)
-     (i32.const 2)
+   (return
+    (call $~lib/set/SetEntryIterator<f64>#next
+     (get_local $0)
     )
-    (unreachable)
    )
   )
+  (unreachable)
  )
- (func $start (; 111 ;) (type $v)
+ (func $start (; 301 ;) (type $v)
   (set_global $~lib/allocator/arena/startOffset
    (i32.and
     (i32.add
@@ -2903,7 +2903,7 @@
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 184)
-       (i32.const 87)
+       (i32.const 134)
        (i32.const 41)
       )
       (unreachable)
@@ -3009,7 +3009,7 @@
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 184)
-       (i32.const 87)
+       (i32.const 134)
        (i32.const 41)
       )
       (unreachable)
@@ -3115,7 +3115,7 @@
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 184)
-       (i32.const 87)
+       (i32.const 134)
        (i32.const 41)
       )
       (unreachable)
@@ -3221,7 +3221,7 @@
       (call $~lib/env/abort
        (i32.const 0)
        (i32.const 184)
-       (i32.const 87)
+       (i32.const 134)
        (i32.const 41)
       )
       (unreachable)
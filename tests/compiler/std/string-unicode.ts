@@ -0,0 +1,63 @@
+import "allocator/arena";
+
+// case mapping
+
+assert("".toLowerCase() == "");
+assert("".toUpperCase() == "");
+assert("Hello, World!".toLowerCase() == "hello, world!");
+assert("Hello, World!".toUpperCase() == "HELLO, WORLD!");
+assert("abc".toLowerCase() == "abc");
+assert("ÀÉÎõü".toLowerCase() == "àéîõü");
+assert("àéîõüÿ".toUpperCase() == "ÀÉÎÕÜŸ");
+assert("Привет".toUpperCase() == "ПРИВЕТ");
+assert("ΑΒΓ".toLowerCase() == "αβγ");
+assert("𐐷".toUpperCase() == "𐐏"); // supplementary
+assert("𐐏".toLowerCase() == "𐐷");
+
+// special mappings change the length
+assert("ß".toUpperCase() == "SS");
+assert("ﬃ".toUpperCase() == "FFI");
+assert("İ".toLowerCase() == "i̇");
+assert("ŉ".toUpperCase() == "ʼN");
+
+// final sigma
+assert("ΣΑΣ".toLowerCase() == "σας");
+assert("ΣΑΣ.".toLowerCase() == "σας.");
+assert("Σ".toLowerCase() == "σ");
+assert("ΑΣ'Α".toLowerCase() == "ασ'α");
+assert("ΑΣ Α".toLowerCase() == "ας α");
+
+// normalization
+
+assert("".normalize() == "");
+assert("abc".normalize() == "abc");
+assert("é".normalize() == "é");
+assert("é".normalize("NFC") == "é");
+assert("é".normalize("NFD") == "é");
+assert("ẛ̣".normalize("NFC") == "ẛ̣");
+assert("ẛ̣".normalize("NFD") == "ẛ̣");
+assert("ẛ̣".normalize("NFKC") == "ṩ");
+assert("ẛ̣".normalize("NFKD") == "ṩ");
+assert("ạ̇".normalize("NFD") == "ạ̇"); // canonical ordering
+assert("ạ̇".normalize("NFC") == "ạ̇");
+assert("ﬁ".normalize("NFKD") == "fi");
+assert("ﬁ".normalize("NFD") == "ﬁ");
+assert("Å".normalize("NFC") == "Å"); // singleton
+assert("𝅗𝅥".normalize("NFC") == "𝅗𝅥"); // composition exclusion
+
+// hangul
+assert("각".normalize("NFD") == "각");
+assert("각".normalize("NFC") == "각");
+assert("가".normalize("NFC") == "가");
+
+function throwsRangeError(form: string): bool {
+  try {
+    "a".normalize(form);
+  } catch (e) {
+    return true;
+  }
+  return false;
+}
+
+assert(throwsRangeError("nfc"));
+assert(!throwsRangeError("NFKD"));
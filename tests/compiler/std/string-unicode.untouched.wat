@@ -0,0 +1,7007 @@
+(module
+ (type $ii (func (param i32) (result i32)))
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $iii (func (param i32 i32) (result i32)))
+ (type $iiiii (func (param i32 i32 i32 i32) (result i32)))
+ (type $iiii (func (param i32 i32 i32) (result i32)))
+ (type $iiiiii (func (param i32 i32 i32 i32 i32) (result i32)))
+ (type $iiiv (func (param i32 i32 i32)))
+ (type $v (func))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/internal/allocator/AL_BITS i32 (i32.const 3))
+ (global $~lib/internal/allocator/AL_SIZE i32 (i32.const 8))
+ (global $~lib/internal/allocator/AL_MASK i32 (i32.const 7))
+ (global $~lib/internal/allocator/MAX_SIZE_32 i32 (i32.const 1073741824))
+ (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
+ (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $~lib/internal/string/HEADER_SIZE i32 (i32.const 4))
+ (global $~lib/internal/string/CharCode.BACKSPACE i32 (i32.const 8))
+ (global $~lib/internal/string/CharCode.TAB i32 (i32.const 9))
+ (global $~lib/internal/string/CharCode.LINEFEED i32 (i32.const 10))
+ (global $~lib/internal/string/CharCode.VERTICALTAB i32 (i32.const 11))
+ (global $~lib/internal/string/CharCode.FORMFEED i32 (i32.const 12))
+ (global $~lib/internal/string/CharCode.CARRIAGERETURN i32 (i32.const 13))
+ (global $~lib/internal/string/CharCode.SPACE i32 (i32.const 32))
+ (global $~lib/internal/string/CharCode.DOUBLEQUOTE i32 (i32.const 34))
+ (global $~lib/internal/string/CharCode.DOLLAR i32 (i32.const 36))
+ (global $~lib/internal/string/CharCode.AMPERSAND i32 (i32.const 38))
+ (global $~lib/internal/string/CharCode.SINGLEQUOTE i32 (i32.const 39))
+ (global $~lib/internal/string/CharCode.OPENPAREN i32 (i32.const 40))
+ (global $~lib/internal/string/CharCode.CLOSEPAREN i32 (i32.const 41))
+ (global $~lib/internal/string/CharCode.ASTERISK i32 (i32.const 42))
+ (global $~lib/internal/string/CharCode.PLUS i32 (i32.const 43))
+ (global $~lib/internal/string/CharCode.COMMA i32 (i32.const 44))
+ (global $~lib/internal/string/CharCode.MINUS i32 (i32.const 45))
+ (global $~lib/internal/string/CharCode.DOT i32 (i32.const 46))
+ (global $~lib/internal/string/CharCode.SLASH i32 (i32.const 47))
+ (global $~lib/internal/string/CharCode._0 i32 (i32.const 48))
+ (global $~lib/internal/string/CharCode._1 i32 (i32.const 49))
+ (global $~lib/internal/string/CharCode._2 i32 (i32.const 50))
+ (global $~lib/internal/string/CharCode._3 i32 (i32.const 51))
+ (global $~lib/internal/string/CharCode._4 i32 (i32.const 52))
+ (global $~lib/internal/string/CharCode._5 i32 (i32.const 53))
+ (global $~lib/internal/string/CharCode._6 i32 (i32.const 54))
+ (global $~lib/internal/string/CharCode._7 i32 (i32.const 55))
+ (global $~lib/internal/string/CharCode._8 i32 (i32.const 56))
+ (global $~lib/internal/string/CharCode._9 i32 (i32.const 57))
+ (global $~lib/internal/string/CharCode.COLON i32 (i32.const 58))
+ (global $~lib/internal/string/CharCode.QUESTION i32 (i32.const 63))
+ (global $~lib/internal/string/CharCode.A i32 (i32.const 65))
+ (global $~lib/internal/string/CharCode.B i32 (i32.const 66))
+ (global $~lib/internal/string/CharCode.D i32 (i32.const 68))
+ (global $~lib/internal/string/CharCode.E i32 (i32.const 69))
+ (global $~lib/internal/string/CharCode.F i32 (i32.const 70))
+ (global $~lib/internal/string/CharCode.O i32 (i32.const 79))
+ (global $~lib/internal/string/CharCode.S i32 (i32.const 83))
+ (global $~lib/internal/string/CharCode.W i32 (i32.const 87))
+ (global $~lib/internal/string/CharCode.X i32 (i32.const 88))
+ (global $~lib/internal/string/CharCode.T i32 (i32.const 84))
+ (global $~lib/internal/string/CharCode.Z i32 (i32.const 90))
+ (global $~lib/internal/string/CharCode.OPENBRACKET i32 (i32.const 91))
+ (global $~lib/internal/string/CharCode.BACKSLASH i32 (i32.const 92))
+ (global $~lib/internal/string/CharCode.CLOSEBRACKET i32 (i32.const 93))
+ (global $~lib/internal/string/CharCode.CARET i32 (i32.const 94))
+ (global $~lib/internal/string/CharCode._ i32 (i32.const 95))
+ (global $~lib/internal/string/CharCode.BACKTICK i32 (i32.const 96))
+ (global $~lib/internal/string/CharCode.a i32 (i32.const 97))
+ (global $~lib/internal/string/CharCode.b i32 (i32.const 98))
+ (global $~lib/internal/string/CharCode.c i32 (i32.const 99))
+ (global $~lib/internal/string/CharCode.d i32 (i32.const 100))
+ (global $~lib/internal/string/CharCode.e i32 (i32.const 101))
+ (global $~lib/internal/string/CharCode.f i32 (i32.const 102))
+ (global $~lib/internal/string/CharCode.g i32 (i32.const 103))
+ (global $~lib/internal/string/CharCode.i i32 (i32.const 105))
+ (global $~lib/internal/string/CharCode.l i32 (i32.const 108))
+ (global $~lib/internal/string/CharCode.m i32 (i32.const 109))
+ (global $~lib/internal/string/CharCode.n i32 (i32.const 110))
+ (global $~lib/internal/string/CharCode.o i32 (i32.const 111))
+ (global $~lib/internal/string/CharCode.r i32 (i32.const 114))
+ (global $~lib/internal/string/CharCode.s i32 (i32.const 115))
+ (global $~lib/internal/string/CharCode.t i32 (i32.const 116))
+ (global $~lib/internal/string/CharCode.u i32 (i32.const 117))
+ (global $~lib/internal/string/CharCode.v i32 (i32.const 118))
+ (global $~lib/internal/string/CharCode.w i32 (i32.const 119))
+ (global $~lib/internal/string/CharCode.x i32 (i32.const 120))
+ (global $~lib/internal/string/CharCode.z i32 (i32.const 122))
+ (global $~lib/internal/string/CharCode.OPENBRACE i32 (i32.const 123))
+ (global $~lib/internal/string/CharCode.BAR i32 (i32.const 124))
+ (global $~lib/internal/string/CharCode.CLOSEBRACE i32 (i32.const 125))
+ (global $~lib/internal/string/CharCode.LINESEPARATOR i32 (i32.const 8232))
+ (global $~lib/internal/string/CharCode.PARAGRAPHSEPARATOR i32 (i32.const 8233))
+ (global $~lib/internal/arraybuffer/HEADER_SIZE i32 (i32.const 8))
+ (global $~lib/internal/string/MAX_LENGTH i32 (i32.const 536870910))
+ (global $~lib/internal/arraybuffer/MAX_BLENGTH i32 (i32.const 1073741816))
+ (global $~exception (mut i32) (i32.const 0))
+ (global $~lib/internal/string/HANGUL_SBASE i32 (i32.const 44032))
+ (global $~lib/internal/string/HANGUL_LCOUNT i32 (i32.const 19))
+ (global $~lib/internal/string/HANGUL_VCOUNT i32 (i32.const 21))
+ (global $~lib/internal/string/HANGUL_TCOUNT i32 (i32.const 28))
+ (global $~lib/internal/string/HANGUL_NCOUNT i32 (i32.const 588))
+ (global $~lib/internal/string/HANGUL_SCOUNT i32 (i32.const 11172))
+ (global $~lib/internal/string/HANGUL_LBASE i32 (i32.const 4352))
+ (global $~lib/internal/string/HANGUL_VBASE i32 (i32.const 4449))
+ (global $~lib/internal/string/HANGUL_TBASE i32 (i32.const 4519))
+ (global $~argc (mut i32) (i32.const 0))
+ (global $RTTI_BASE i32 (i32.const 165200))
+ (global $HEAP_BASE i32 (i32.const 165276))
+ (memory $0 3)
+ (data (i32.const 8) "\00\00\00\00")
+ (data (i32.const 16) "\0e\00\00\00~\00l\00i\00b\00/\00s\00t\00r\00i\00n\00g\00.\00t\00s\00")
+ (data (i32.const 48) "p\0c\00\00\00\00\00\00a\00\00\00z\00\00\00\01\00\00\00\e0\ff\ff\ff\b5\00\00\00\b5\00\00\00\01\00\00\00\e7\02\00\00\e0\00\00\00\f6\00\00\00\01\00\00\00\e0\ff\ff\ff\f8\00\00\00\fe\00\00\00\01\00\00\00\e0\ff\ff\ff\ff\00\00\00\ff\00\00\00\01\00\00\00y\00\00\00\01\01\00\00/\01\00\00\02\00\00\00\ff\ff\ff\ff1\01\00\001\01\00\00\01\00\00\00\18\ff\ff\ff3\01\00\007\01\00\00\02\00\00\00\ff\ff\ff\ff:\01\00\00H\01\00\00\02\00\00\00\ff\ff\ff\ffK\01\00\00w\01\00\00\02\00\00\00\ff\ff\ff\ffz\01\00\00~\01\00\00\02\00\00\00\ff\ff\ff\ff\7f\01\00\00\7f\01\00\00\01\00\00\00\d4\fe\ff\ff\80\01\00\00\80\01\00\00\01\00\00\00\c3\00\00\00\83\01\00\00\85\01\00\00\02\00\00\00\ff\ff\ff\ff\88\01\00\00\88\01\00\00\01\00\00\00\ff\ff\ff\ff\8c\01\00\00\8c\01\00\00\01\00\00\00\ff\ff\ff\ff\92\01\00\00\92\01\00\00\01\00\00\00\ff\ff\ff\ff\95\01\00\00\95\01\00\00\01\00\00\00a\00\00\00\99\01\00\00\99\01\00\00\01\00\00\00\ff\ff\ff\ff\9a\01\00\00\9a\01\00\00\01\00\00\00\a3\00\00\00\9b\01\00\00\9b\01\00\00\01\00\00\00A\a6\00\00\9e\01\00\00\9e\01\00\00\01\00\00\00\82\00\00\00\a1\01\00\00\a5\01\00\00\02\00\00\00\ff\ff\ff\ff\a8\01\00\00\a8\01\00\00\01\00\00\00\ff\ff\ff\ff\ad\01\00\00\ad\01\00\00\01\00\00\00\ff\ff\ff\ff\b0\01\00\00\b0\01\00\00\01\00\00\00\ff\ff\ff\ff\b4\01\00\00\b6\01\00\00\02\00\00\00\ff\ff\ff\ff\b9\01\00\00\b9\01\00\00\01\00\00\00\ff\ff\ff\ff\bd\01\00\00\bd\01\00\00\01\00\00\00\ff\ff\ff\ff\bf\01\00\00\bf\01\00\00\01\00\00\008\00\00\00\c5\01\00\00\c5\01\00\00\01\00\00\00\ff\ff\ff\ff\c6\01\00\00\c6\01\00\00\01\00\00\00\fe\ff\ff\ff\c8\01\00\00\c8\01\00\00\01\00\00\00\ff\ff\ff\ff\c9\01\00\00\c9\01\00\00\01\00\00\00\fe\ff\ff\ff\cb\01\00\00\cb\01\00\00\01\00\00\00\ff\ff\ff\ff\cc\01\00\00\cc\01\00\00\01\00\00\00\fe\ff\ff\ff\ce\01\00\00\dc\01\00\00\02\00\00\00\ff\ff\ff\ff\dd\01\00\00\dd\01\00\00\01\00\00\00\b1\ff\ff\ff\df\01\00\00\ef\01\00\00\02\00\00\00\ff\ff\ff\ff\f2\01\00\00\f2\01\00\00\01\00\00\00\ff\ff\ff\ff\f3\01\00\00\f3\01\00\00\01\00\00\00\fe\ff\ff\ff\f5\01\00\00\f5\01\00\00\01\00\00\00\ff\ff\ff\ff\f9\01\00\00\1f\02\00\00\02\00\00\00\ff\ff\ff\ff#\02\00\003\02\00\00\02\00\00\00\ff\ff\ff\ff<\02\00\00<\02\00\00\01\00\00\00\ff\ff\ff\ff?\02\00\00@\02\00\00\01\00\00\00?*\00\00B\02\00\00B\02\00\00\01\00\00\00\ff\ff\ff\ffG\02\00\00O\02\00\00\02\00\00\00\ff\ff\ff\ffP\02\00\00P\02\00\00\01\00\00\00\1f*\00\00Q\02\00\00Q\02\00\00\01\00\00\00\1c*\00\00R\02\00\00R\02\00\00\01\00\00\00\1e*\00\00S\02\00\00S\02\00\00\01\00\00\00.\ff\ff\ffT\02\00\00T\02\00\00\01\00\00\002\ff\ff\ffV\02\00\00W\02\00\00\01\00\00\003\ff\ff\ffY\02\00\00Y\02\00\00\01\00\00\006\ff\ff\ff[\02\00\00[\02\00\00\01\00\00\005\ff\ff\ff\\\02\00\00\\\02\00\00\01\00\00\00O\a5\00\00`\02\00\00`\02\00\00\01\00\00\003\ff\ff\ffa\02\00\00a\02\00\00\01\00\00\00K\a5\00\00c\02\00\00c\02\00\00\01\00\00\001\ff\ff\ffd\02\00\00d\02\00\00\01\00\00\00g\a5\00\00e\02\00\00e\02\00\00\01\00\00\00(\a5\00\00f\02\00\00f\02\00\00\01\00\00\00D\a5\00\00h\02\00\00h\02\00\00\01\00\00\00/\ff\ff\ffi\02\00\00i\02\00\00\01\00\00\00-\ff\ff\ffj\02\00\00j\02\00\00\01\00\00\00D\a5\00\00k\02\00\00k\02\00\00\01\00\00\00\f7)\00\00l\02\00\00l\02\00\00\01\00\00\00A\a5\00\00o\02\00\00o\02\00\00\01\00\00\00-\ff\ff\ffq\02\00\00q\02\00\00\01\00\00\00\fd)\00\00r\02\00\00r\02\00\00\01\00\00\00+\ff\ff\ffu\02\00\00u\02\00\00\01\00\00\00*\ff\ff\ff}\02\00\00}\02\00\00\01\00\00\00\e7)\00\00\80\02\00\00\80\02\00\00\01\00\00\00&\ff\ff\ff\82\02\00\00\82\02\00\00\01\00\00\00C\a5\00\00\83\02\00\00\83\02\00\00\01\00\00\00&\ff\ff\ff\87\02\00\00\87\02\00\00\01\00\00\00*\a5\00\00\88\02\00\00\88\02\00\00\01\00\00\00&\ff\ff\ff\89\02\00\00\89\02\00\00\01\00\00\00\bb\ff\ff\ff\8a\02\00\00\8b\02\00\00\01\00\00\00\'\ff\ff\ff\8c\02\00\00\8c\02\00\00\01\00\00\00\b9\ff\ff\ff\92\02\00\00\92\02\00\00\01\00\00\00%\ff\ff\ff\9d\02\00\00\9d\02\00\00\01\00\00\00\15\a5\00\00\9e\02\00\00\9e\02\00\00\01\00\00\00\12\a5\00\00E\03\00\00E\03\00\00\01\00\00\00T\00\00\00q\03\00\00s\03\00\00\02\00\00\00\ff\ff\ff\ffw\03\00\00w\03\00\00\01\00\00\00\ff\ff\ff\ff{\03\00\00}\03\00\00\01\00\00\00\82\00\00\00\ac\03\00\00\ac\03\00\00\01\00\00\00\da\ff\ff\ff\ad\03\00\00\af\03\00\00\01\00\00\00\db\ff\ff\ff\b1\03\00\00\c1\03\00\00\01\00\00\00\e0\ff\ff\ff\c2\03\00\00\c2\03\00\00\01\00\00\00\e1\ff\ff\ff\c3\03\00\00\cb\03\00\00\01\00\00\00\e0\ff\ff\ff\cc\03\00\00\cc\03\00\00\01\00\00\00\c0\ff\ff\ff\cd\03\00\00\ce\03\00\00\01\00\00\00\c1\ff\ff\ff\d0\03\00\00\d0\03\00\00\01\00\00\00\c2\ff\ff\ff\d1\03\00\00\d1\03\00\00\01\00\00\00\c7\ff\ff\ff\d5\03\00\00\d5\03\00\00\01\00\00\00\d1\ff\ff\ff\d6\03\00\00\d6\03\00\00\01\00\00\00\ca\ff\ff\ff\d7\03\00\00\d7\03\00\00\01\00\00\00\f8\ff\ff\ff\d9\03\00\00\ef\03\00\00\02\00\00\00\ff\ff\ff\ff\f0\03\00\00\f0\03\00\00\01\00\00\00\aa\ff\ff\ff\f1\03\00\00\f1\03\00\00\01\00\00\00\b0\ff\ff\ff\f2\03\00\00\f2\03\00\00\01\00\00\00\07\00\00\00\f3\03\00\00\f3\03\00\00\01\00\00\00\8c\ff\ff\ff\f5\03\00\00\f5\03\00\00\01\00\00\00\a0\ff\ff\ff\f8\03\00\00\f8\03\00\00\01\00\00\00\ff\ff\ff\ff\fb\03\00\00\fb\03\00\00\01\00\00\00\ff\ff\ff\ff0\04\00\00O\04\00\00\01\00\00\00\e0\ff\ff\ffP\04\00\00_\04\00\00\01\00\00\00\b0\ff\ff\ffa\04\00\00\81\04\00\00\02\00\00\00\ff\ff\ff\ff\8b\04\00\00\bf\04\00\00\02\00\00\00\ff\ff\ff\ff\c2\04\00\00\ce\04\00\00\02\00\00\00\ff\ff\ff\ff\cf\04\00\00\cf\04\00\00\01\00\00\00\f1\ff\ff\ff\d1\04\00\00/\05\00\00\02\00\00\00\ff\ff\ff\ffa\05\00\00\86\05\00\00\01\00\00\00\d0\ff\ff\ff\d0\10\00\00\fa\10\00\00\01\00\00\00\c0\0b\00\00\fd\10\00\00\ff\10\00\00\01\00\00\00\c0\0b\00\00\f8\13\00\00\fd\13\00\00\01\00\00\00\f8\ff\ff\ff\80\1c\00\00\80\1c\00\00\01\00\00\00\92\e7\ff\ff\81\1c\00\00\81\1c\00\00\01\00\00\00\93\e7\ff\ff\82\1c\00\00\82\1c\00\00\01\00\00\00\9c\e7\ff\ff\83\1c\00\00\84\1c\00\00\01\00\00\00\9e\e7\ff\ff\85\1c\00\00\85\1c\00\00\01\00\00\00\9d\e7\ff\ff\86\1c\00\00\86\1c\00\00\01\00\00\00\a4\e7\ff\ff\87\1c\00\00\87\1c\00\00\01\00\00\00\db\e7\ff\ff\88\1c\00\00\88\1c\00\00\01\00\00\00\c2\89\00\00\8a\1c\00\00\8a\1c\00\00\01\00\00\00\ff\ff\ff\ffy\1d\00\00y\1d\00\00\01\00\00\00\04\8a\00\00}\1d\00\00}\1d\00\00\01\00\00\00\e6\0e\00\00\8e\1d\00\00\8e\1d\00\00\01\00\00\008\8a\00\00\01\1e\00\00\95\1e\00\00\02\00\00\00\ff\ff\ff\ff\9b\1e\00\00\9b\1e\00\00\01\00\00\00\c5\ff\ff\ff\a1\1e\00\00\ff\1e\00\00\02\00\00\00\ff\ff\ff\ff\00\1f\00\00\07\1f\00\00\01\00\00\00\08\00\00\00\10\1f\00\00\15\1f\00\00\01\00\00\00\08\00\00\00 \1f\00\00\'\1f\00\00\01\00\00\00\08\00\00\000\1f\00\007\1f\00\00\01\00\00\00\08\00\00\00@\1f\00\00E\1f\00\00\01\00\00\00\08\00\00\00Q\1f\00\00W\1f\00\00\02\00\00\00\08\00\00\00`\1f\00\00g\1f\00\00\01\00\00\00\08\00\00\00p\1f\00\00q\1f\00\00\01\00\00\00J\00\00\00r\1f\00\00u\1f\00\00\01\00\00\00V\00\00\00v\1f\00\00w\1f\00\00\01\00\00\00d\00\00\00x\1f\00\00y\1f\00\00\01\00\00\00\80\00\00\00z\1f\00\00{\1f\00\00\01\00\00\00p\00\00\00|\1f\00\00}\1f\00\00\01\00\00\00~\00\00\00\b0\1f\00\00\b1\1f\00\00\01\00\00\00\08\00\00\00\be\1f\00\00\be\1f\00\00\01\00\00\00\db\e3\ff\ff\d0\1f\00\00\d1\1f\00\00\01\00\00\00\08\00\00\00\e0\1f\00\00\e1\1f\00\00\01\00\00\00\08\00\00\00\e5\1f\00\00\e5\1f\00\00\01\00\00\00\07\00\00\00N!\00\00N!\00\00\01\00\00\00\e4\ff\ff\ffp!\00\00\7f!\00\00\01\00\00\00\f0\ff\ff\ff\84!\00\00\84!\00\00\01\00\00\00\ff\ff\ff\ff\d0$\00\00\e9$\00\00\01\00\00\00\e6\ff\ff\ff0,\00\00_,\00\00\01\00\00\00\d0\ff\ff\ffa,\00\00a,\00\00\01\00\00\00\ff\ff\ff\ffe,\00\00e,\00\00\01\00\00\00\d5\d5\ff\fff,\00\00f,\00\00\01\00\00\00\d8\d5\ff\ffh,\00\00l,\00\00\02\00\00\00\ff\ff\ff\ffs,\00\00s,\00\00\01\00\00\00\ff\ff\ff\ffv,\00\00v,\00\00\01\00\00\00\ff\ff\ff\ff\81,\00\00\e3,\00\00\02\00\00\00\ff\ff\ff\ff\ec,\00\00\ee,\00\00\02\00\00\00\ff\ff\ff\ff\f3,\00\00\f3,\00\00\01\00\00\00\ff\ff\ff\ff\00-\00\00%-\00\00\01\00\00\00\a0\e3\ff\ff\'-\00\00\'-\00\00\01\00\00\00\a0\e3\ff\ff--\00\00--\00\00\01\00\00\00\a0\e3\ff\ffA\a6\00\00m\a6\00\00\02\00\00\00\ff\ff\ff\ff\81\a6\00\00\9b\a6\00\00\02\00\00\00\ff\ff\ff\ff#\a7\00\00/\a7\00\00\02\00\00\00\ff\ff\ff\ff3\a7\00\00o\a7\00\00\02\00\00\00\ff\ff\ff\ffz\a7\00\00|\a7\00\00\02\00\00\00\ff\ff\ff\ff\7f\a7\00\00\87\a7\00\00\02\00\00\00\ff\ff\ff\ff\8c\a7\00\00\8c\a7\00\00\01\00\00\00\ff\ff\ff\ff\91\a7\00\00\93\a7\00\00\02\00\00\00\ff\ff\ff\ff\94\a7\00\00\94\a7\00\00\01\00\00\000\00\00\00\97\a7\00\00\a9\a7\00\00\02\00\00\00\ff\ff\ff\ff\b5\a7\00\00\c3\a7\00\00\02\00\00\00\ff\ff\ff\ff\c8\a7\00\00\ca\a7\00\00\02\00\00\00\ff\ff\ff\ff\cd\a7\00\00\cd\a7\00\00\01\00\00\00\ff\ff\ff\ff\d1\a7\00\00\d1\a7\00\00\01\00\00\00\ff\ff\ff\ff\d7\a7\00\00\db\a7\00\00\02\00\00\00\ff\ff\ff\ff\f6\a7\00\00\f6\a7\00\00\01\00\00\00\ff\ff\ff\ffS\ab\00\00S\ab\00\00\01\00\00\00`\fc\ff\ffp\ab\00\00\bf\ab\00\00\01\00\00\000h\ff\ffA\ff\00\00Z\ff\00\00\01\00\00\00\e0\ff\ff\ff(\04\01\00O\04\01\00\01\00\00\00\d8\ff\ff\ff\d8\04\01\00\fb\04\01\00\01\00\00\00\d8\ff\ff\ff\97\05\01\00\a1\05\01\00\01\00\00\00\d9\ff\ff\ff\a3\05\01\00\b1\05\01\00\01\00\00\00\d9\ff\ff\ff\b3\05\01\00\b9\05\01\00\01\00\00\00\d9\ff\ff\ff\bb\05\01\00\bc\05\01\00\01\00\00\00\d9\ff\ff\ff\c0\0c\01\00\f2\0c\01\00\01\00\00\00\c0\ff\ff\ffp\0d\01\00\85\0d\01\00\01\00\00\00\e0\ff\ff\ff\c0\18\01\00\df\18\01\00\01\00\00\00\e0\ff\ff\ff`n\01\00\7fn\01\00\01\00\00\00\e0\ff\ff\ff\"\e9\01\00C\e9\01\00\01\00\00\00\de\ff\ff\ff\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 4144) "0\00\00\00\1c\03\00\00")
+ (data (i32.const 4152) "\a0\0b\00\00\00\00\00\00A\00\00\00Z\00\00\00\01\00\00\00 \00\00\00\c0\00\00\00\d6\00\00\00\01\00\00\00 \00\00\00\d8\00\00\00\de\00\00\00\01\00\00\00 \00\00\00\00\01\00\00.\01\00\00\02\00\00\00\01\00\00\002\01\00\006\01\00\00\02\00\00\00\01\00\00\009\01\00\00G\01\00\00\02\00\00\00\01\00\00\00J\01\00\00v\01\00\00\02\00\00\00\01\00\00\00x\01\00\00x\01\00\00\01\00\00\00\87\ff\ff\ffy\01\00\00}\01\00\00\02\00\00\00\01\00\00\00\81\01\00\00\81\01\00\00\01\00\00\00\d2\00\00\00\82\01\00\00\84\01\00\00\02\00\00\00\01\00\00\00\86\01\00\00\86\01\00\00\01\00\00\00\ce\00\00\00\87\01\00\00\87\01\00\00\01\00\00\00\01\00\00\00\89\01\00\00\8a\01\00\00\01\00\00\00\cd\00\00\00\8b\01\00\00\8b\01\00\00\01\00\00\00\01\00\00\00\8e\01\00\00\8e\01\00\00\01\00\00\00O\00\00\00\8f\01\00\00\8f\01\00\00\01\00\00\00\ca\00\00\00\90\01\00\00\90\01\00\00\01\00\00\00\cb\00\00\00\91\01\00\00\91\01\00\00\01\00\00\00\01\00\00\00\93\01\00\00\93\01\00\00\01\00\00\00\cd\00\00\00\94\01\00\00\94\01\00\00\01\00\00\00\cf\00\00\00\96\01\00\00\96\01\00\00\01\00\00\00\d3\00\00\00\97\01\00\00\97\01\00\00\01\00\00\00\d1\00\00\00\98\01\00\00\98\01\00\00\01\00\00\00\01\00\00\00\9c\01\00\00\9c\01\00\00\01\00\00\00\d3\00\00\00\9d\01\00\00\9d\01\00\00\01\00\00\00\d5\00\00\00\9f\01\00\00\9f\01\00\00\01\00\00\00\d6\00\00\00\a0\01\00\00\a4\01\00\00\02\00\00\00\01\00\00\00\a6\01\00\00\a6\01\00\00\01\00\00\00\da\00\00\00\a7\01\00\00\a7\01\00\00\01\00\00\00\01\00\00\00\a9\01\00\00\a9\01\00\00\01\00\00\00\da\00\00\00\ac\01\00\00\ac\01\00\00\01\00\00\00\01\00\00\00\ae\01\00\00\ae\01\00\00\01\00\00\00\da\00\00\00\af\01\00\00\af\01\00\00\01\00\00\00\01\00\00\00\b1\01\00\00\b2\01\00\00\01\00\00\00\d9\00\00\00\b3\01\00\00\b5\01\00\00\02\00\00\00\01\00\00\00\b7\01\00\00\b7\01\00\00\01\00\00\00\db\00\00\00\b8\01\00\00\b8\01\00\00\01\00\00\00\01\00\00\00\bc\01\00\00\bc\01\00\00\01\00\00\00\01\00\00\00\c4\01\00\00\c4\01\00\00\01\00\00\00\02\00\00\00\c5\01\00\00\c5\01\00\00\01\00\00\00\01\00\00\00\c7\01\00\00\c7\01\00\00\01\00\00\00\02\00\00\00\c8\01\00\00\c8\01\00\00\01\00\00\00\01\00\00\00\ca\01\00\00\ca\01\00\00\01\00\00\00\02\00\00\00\cb\01\00\00\db\01\00\00\02\00\00\00\01\00\00\00\de\01\00\00\ee\01\00\00\02\00\00\00\01\00\00\00\f1\01\00\00\f1\01\00\00\01\00\00\00\02\00\00\00\f2\01\00\00\f4\01\00\00\02\00\00\00\01\00\00\00\f6\01\00\00\f6\01\00\00\01\00\00\00\9f\ff\ff\ff\f7\01\00\00\f7\01\00\00\01\00\00\00\c8\ff\ff\ff\f8\01\00\00\1e\02\00\00\02\00\00\00\01\00\00\00 \02\00\00 \02\00\00\01\00\00\00~\ff\ff\ff\"\02\00\002\02\00\00\02\00\00\00\01\00\00\00:\02\00\00:\02\00\00\01\00\00\00+*\00\00;\02\00\00;\02\00\00\01\00\00\00\01\00\00\00=\02\00\00=\02\00\00\01\00\00\00]\ff\ff\ff>\02\00\00>\02\00\00\01\00\00\00(*\00\00A\02\00\00A\02\00\00\01\00\00\00\01\00\00\00C\02\00\00C\02\00\00\01\00\00\00=\ff\ff\ffD\02\00\00D\02\00\00\01\00\00\00E\00\00\00E\02\00\00E\02\00\00\01\00\00\00G\00\00\00F\02\00\00N\02\00\00\02\00\00\00\01\00\00\00p\03\00\00r\03\00\00\02\00\00\00\01\00\00\00v\03\00\00v\03\00\00\01\00\00\00\01\00\00\00\7f\03\00\00\7f\03\00\00\01\00\00\00t\00\00\00\86\03\00\00\86\03\00\00\01\00\00\00&\00\00\00\88\03\00\00\8a\03\00\00\01\00\00\00%\00\00\00\8c\03\00\00\8c\03\00\00\01\00\00\00@\00\00\00\8e\03\00\00\8f\03\00\00\01\00\00\00?\00\00\00\91\03\00\00\a1\03\00\00\01\00\00\00 \00\00\00\a3\03\00\00\ab\03\00\00\01\00\00\00 \00\00\00\cf\03\00\00\cf\03\00\00\01\00\00\00\08\00\00\00\d8\03\00\00\ee\03\00\00\02\00\00\00\01\00\00\00\f4\03\00\00\f4\03\00\00\01\00\00\00\c4\ff\ff\ff\f7\03\00\00\f7\03\00\00\01\00\00\00\01\00\00\00\f9\03\00\00\f9\03\00\00\01\00\00\00\f9\ff\ff\ff\fa\03\00\00\fa\03\00\00\01\00\00\00\01\00\00\00\fd\03\00\00\ff\03\00\00\01\00\00\00~\ff\ff\ff\00\04\00\00\0f\04\00\00\01\00\00\00P\00\00\00\10\04\00\00/\04\00\00\01\00\00\00 \00\00\00`\04\00\00\80\04\00\00\02\00\00\00\01\00\00\00\8a\04\00\00\be\04\00\00\02\00\00\00\01\00\00\00\c0\04\00\00\c0\04\00\00\01\00\00\00\0f\00\00\00\c1\04\00\00\cd\04\00\00\02\00\00\00\01\00\00\00\d0\04\00\00.\05\00\00\02\00\00\00\01\00\00\001\05\00\00V\05\00\00\01\00\00\000\00\00\00\a0\10\00\00\c5\10\00\00\01\00\00\00`\1c\00\00\c7\10\00\00\c7\10\00\00\01\00\00\00`\1c\00\00\cd\10\00\00\cd\10\00\00\01\00\00\00`\1c\00\00\a0\13\00\00\ef\13\00\00\01\00\00\00\d0\97\00\00\f0\13\00\00\f5\13\00\00\01\00\00\00\08\00\00\00\89\1c\00\00\89\1c\00\00\01\00\00\00\01\00\00\00\90\1c\00\00\ba\1c\00\00\01\00\00\00@\f4\ff\ff\bd\1c\00\00\bf\1c\00\00\01\00\00\00@\f4\ff\ff\00\1e\00\00\94\1e\00\00\02\00\00\00\01\00\00\00\9e\1e\00\00\9e\1e\00\00\01\00\00\00A\e2\ff\ff\a0\1e\00\00\fe\1e\00\00\02\00\00\00\01\00\00\00\08\1f\00\00\0f\1f\00\00\01\00\00\00\f8\ff\ff\ff\18\1f\00\00\1d\1f\00\00\01\00\00\00\f8\ff\ff\ff(\1f\00\00/\1f\00\00\01\00\00\00\f8\ff\ff\ff8\1f\00\00?\1f\00\00\01\00\00\00\f8\ff\ff\ffH\1f\00\00M\1f\00\00\01\00\00\00\f8\ff\ff\ffY\1f\00\00_\1f\00\00\02\00\00\00\f8\ff\ff\ffh\1f\00\00o\1f\00\00\01\00\00\00\f8\ff\ff\ff\88\1f\00\00\8f\1f\00\00\01\00\00\00\f8\ff\ff\ff\98\1f\00\00\9f\1f\00\00\01\00\00\00\f8\ff\ff\ff\a8\1f\00\00\af\1f\00\00\01\00\00\00\f8\ff\ff\ff\b8\1f\00\00\b9\1f\00\00\01\00\00\00\f8\ff\ff\ff\ba\1f\00\00\bb\1f\00\00\01\00\00\00\b6\ff\ff\ff\bc\1f\00\00\bc\1f\00\00\01\00\00\00\f7\ff\ff\ff\c8\1f\00\00\cb\1f\00\00\01\00\00\00\aa\ff\ff\ff\cc\1f\00\00\cc\1f\00\00\01\00\00\00\f7\ff\ff\ff\d8\1f\00\00\d9\1f\00\00\01\00\00\00\f8\ff\ff\ff\da\1f\00\00\db\1f\00\00\01\00\00\00\9c\ff\ff\ff\e8\1f\00\00\e9\1f\00\00\01\00\00\00\f8\ff\ff\ff\ea\1f\00\00\eb\1f\00\00\01\00\00\00\90\ff\ff\ff\ec\1f\00\00\ec\1f\00\00\01\00\00\00\f9\ff\ff\ff\f8\1f\00\00\f9\1f\00\00\01\00\00\00\80\ff\ff\ff\fa\1f\00\00\fb\1f\00\00\01\00\00\00\82\ff\ff\ff\fc\1f\00\00\fc\1f\00\00\01\00\00\00\f7\ff\ff\ff&!\00\00&!\00\00\01\00\00\00\a3\e2\ff\ff*!\00\00*!\00\00\01\00\00\00A\df\ff\ff+!\00\00+!\00\00\01\00\00\00\ba\df\ff\ff2!\00\002!\00\00\01\00\00\00\1c\00\00\00`!\00\00o!\00\00\01\00\00\00\10\00\00\00\83!\00\00\83!\00\00\01\00\00\00\01\00\00\00\b6$\00\00\cf$\00\00\01\00\00\00\1a\00\00\00\00,\00\00/,\00\00\01\00\00\000\00\00\00`,\00\00`,\00\00\01\00\00\00\01\00\00\00b,\00\00b,\00\00\01\00\00\00\t\d6\ff\ffc,\00\00c,\00\00\01\00\00\00\1a\f1\ff\ffd,\00\00d,\00\00\01\00\00\00\19\d6\ff\ffg,\00\00k,\00\00\02\00\00\00\01\00\00\00m,\00\00m,\00\00\01\00\00\00\e4\d5\ff\ffn,\00\00n,\00\00\01\00\00\00\03\d6\ff\ffo,\00\00o,\00\00\01\00\00\00\e1\d5\ff\ffp,\00\00p,\00\00\01\00\00\00\e2\d5\ff\ffr,\00\00r,\00\00\01\00\00\00\01\00\00\00u,\00\00u,\00\00\01\00\00\00\01\00\00\00~,\00\00\7f,\00\00\01\00\00\00\c1\d5\ff\ff\80,\00\00\e2,\00\00\02\00\00\00\01\00\00\00\eb,\00\00\ed,\00\00\02\00\00\00\01\00\00\00\f2,\00\00\f2,\00\00\01\00\00\00\01\00\00\00@\a6\00\00l\a6\00\00\02\00\00\00\01\00\00\00\80\a6\00\00\9a\a6\00\00\02\00\00\00\01\00\00\00\"\a7\00\00.\a7\00\00\02\00\00\00\01\00\00\002\a7\00\00n\a7\00\00\02\00\00\00\01\00\00\00y\a7\00\00{\a7\00\00\02\00\00\00\01\00\00\00}\a7\00\00}\a7\00\00\01\00\00\00\fcu\ff\ff~\a7\00\00\86\a7\00\00\02\00\00\00\01\00\00\00\8b\a7\00\00\8b\a7\00\00\01\00\00\00\01\00\00\00\8d\a7\00\00\8d\a7\00\00\01\00\00\00\d8Z\ff\ff\90\a7\00\00\92\a7\00\00\02\00\00\00\01\00\00\00\96\a7\00\00\a8\a7\00\00\02\00\00\00\01\00\00\00\aa\a7\00\00\aa\a7\00\00\01\00\00\00\bcZ\ff\ff\ab\a7\00\00\ab\a7\00\00\01\00\00\00\b1Z\ff\ff\ac\a7\00\00\ac\a7\00\00\01\00\00\00\b5Z\ff\ff\ad\a7\00\00\ad\a7\00\00\01\00\00\00\bfZ\ff\ff\ae\a7\00\00\ae\a7\00\00\01\00\00\00\bcZ\ff\ff\b0\a7\00\00\b0\a7\00\00\01\00\00\00\eeZ\ff\ff\b1\a7\00\00\b1\a7\00\00\01\00\00\00\d6Z\ff\ff\b2\a7\00\00\b2\a7\00\00\01\00\00\00\ebZ\ff\ff\b3\a7\00\00\b3\a7\00\00\01\00\00\00\a0\03\00\00\b4\a7\00\00\c2\a7\00\00\02\00\00\00\01\00\00\00\c4\a7\00\00\c4\a7\00\00\01\00\00\00\d0\ff\ff\ff\c5\a7\00\00\c5\a7\00\00\01\00\00\00\bdZ\ff\ff\c6\a7\00\00\c6\a7\00\00\01\00\00\00\c8u\ff\ff\c7\a7\00\00\c9\a7\00\00\02\00\00\00\01\00\00\00\cb\a7\00\00\cb\a7\00\00\01\00\00\00\99Z\ff\ff\cc\a7\00\00\cc\a7\00\00\01\00\00\00\01\00\00\00\d0\a7\00\00\d0\a7\00\00\01\00\00\00\01\00\00\00\d6\a7\00\00\da\a7\00\00\02\00\00\00\01\00\00\00\dc\a7\00\00\dc\a7\00\00\01\00\00\00\bfY\ff\ff\f5\a7\00\00\f5\a7\00\00\01\00\00\00\01\00\00\00!\ff\00\00:\ff\00\00\01\00\00\00 \00\00\00\00\04\01\00\'\04\01\00\01\00\00\00(\00\00\00\b0\04\01\00\d3\04\01\00\01\00\00\00(\00\00\00p\05\01\00z\05\01\00\01\00\00\00\'\00\00\00|\05\01\00\8a\05\01\00\01\00\00\00\'\00\00\00\8c\05\01\00\92\05\01\00\01\00\00\00\'\00\00\00\94\05\01\00\95\05\01\00\01\00\00\00\'\00\00\00\80\0c\01\00\b2\0c\01\00\01\00\00\00@\00\00\00P\0d\01\00e\0d\01\00\01\00\00\00 \00\00\00\a0\18\01\00\bf\18\01\00\01\00\00\00 \00\00\00@n\01\00_n\01\00\01\00\00\00 \00\00\00\00\e9\01\00!\e9\01\00\01\00\00\00\"\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 8248) "8\10\00\00\e8\02\00\00")
+ (data (i32.const 8256) "`\06\00\00\00\00\00\00\df\00\00\00S\00\00\00S\00\00\00\00\00\00\00I\01\00\00\bc\02\00\00N\00\00\00\00\00\00\00\f0\01\00\00J\00\00\00\0c\03\00\00\00\00\00\00\90\03\00\00\99\03\00\00\08\03\00\00\01\03\00\00\b0\03\00\00\a5\03\00\00\08\03\00\00\01\03\00\00\87\05\00\005\05\00\00R\05\00\00\00\00\00\00\96\1e\00\00H\00\00\001\03\00\00\00\00\00\00\97\1e\00\00T\00\00\00\08\03\00\00\00\00\00\00\98\1e\00\00W\00\00\00\n\03\00\00\00\00\00\00\99\1e\00\00Y\00\00\00\n\03\00\00\00\00\00\00\9a\1e\00\00A\00\00\00\be\02\00\00\00\00\00\00P\1f\00\00\a5\03\00\00\13\03\00\00\00\00\00\00R\1f\00\00\a5\03\00\00\13\03\00\00\00\03\00\00T\1f\00\00\a5\03\00\00\13\03\00\00\01\03\00\00V\1f\00\00\a5\03\00\00\13\03\00\00B\03\00\00\80\1f\00\00\08\1f\00\00\99\03\00\00\00\00\00\00\81\1f\00\00\t\1f\00\00\99\03\00\00\00\00\00\00\82\1f\00\00\n\1f\00\00\99\03\00\00\00\00\00\00\83\1f\00\00\0b\1f\00\00\99\03\00\00\00\00\00\00\84\1f\00\00\0c\1f\00\00\99\03\00\00\00\00\00\00\85\1f\00\00\0d\1f\00\00\99\03\00\00\00\00\00\00\86\1f\00\00\0e\1f\00\00\99\03\00\00\00\00\00\00\87\1f\00\00\0f\1f\00\00\99\03\00\00\00\00\00\00\88\1f\00\00\08\1f\00\00\99\03\00\00\00\00\00\00\89\1f\00\00\t\1f\00\00\99\03\00\00\00\00\00\00\8a\1f\00\00\n\1f\00\00\99\03\00\00\00\00\00\00\8b\1f\00\00\0b\1f\00\00\99\03\00\00\00\00\00\00\8c\1f\00\00\0c\1f\00\00\99\03\00\00\00\00\00\00\8d\1f\00\00\0d\1f\00\00\99\03\00\00\00\00\00\00\8e\1f\00\00\0e\1f\00\00\99\03\00\00\00\00\00\00\8f\1f\00\00\0f\1f\00\00\99\03\00\00\00\00\00\00\90\1f\00\00(\1f\00\00\99\03\00\00\00\00\00\00\91\1f\00\00)\1f\00\00\99\03\00\00\00\00\00\00\92\1f\00\00*\1f\00\00\99\03\00\00\00\00\00\00\93\1f\00\00+\1f\00\00\99\03\00\00\00\00\00\00\94\1f\00\00,\1f\00\00\99\03\00\00\00\00\00\00\95\1f\00\00-\1f\00\00\99\03\00\00\00\00\00\00\96\1f\00\00.\1f\00\00\99\03\00\00\00\00\00\00\97\1f\00\00/\1f\00\00\99\03\00\00\00\00\00\00\98\1f\00\00(\1f\00\00\99\03\00\00\00\00\00\00\99\1f\00\00)\1f\00\00\99\03\00\00\00\00\00\00\9a\1f\00\00*\1f\00\00\99\03\00\00\00\00\00\00\9b\1f\00\00+\1f\00\00\99\03\00\00\00\00\00\00\9c\1f\00\00,\1f\00\00\99\03\00\00\00\00\00\00\9d\1f\00\00-\1f\00\00\99\03\00\00\00\00\00\00\9e\1f\00\00.\1f\00\00\99\03\00\00\00\00\00\00\9f\1f\00\00/\1f\00\00\99\03\00\00\00\00\00\00\a0\1f\00\00h\1f\00\00\99\03\00\00\00\00\00\00\a1\1f\00\00i\1f\00\00\99\03\00\00\00\00\00\00\a2\1f\00\00j\1f\00\00\99\03\00\00\00\00\00\00\a3\1f\00\00k\1f\00\00\99\03\00\00\00\00\00\00\a4\1f\00\00l\1f\00\00\99\03\00\00\00\00\00\00\a5\1f\00\00m\1f\00\00\99\03\00\00\00\00\00\00\a6\1f\00\00n\1f\00\00\99\03\00\00\00\00\00\00\a7\1f\00\00o\1f\00\00\99\03\00\00\00\00\00\00\a8\1f\00\00h\1f\00\00\99\03\00\00\00\00\00\00\a9\1f\00\00i\1f\00\00\99\03\00\00\00\00\00\00\aa\1f\00\00j\1f\00\00\99\03\00\00\00\00\00\00\ab\1f\00\00k\1f\00\00\99\03\00\00\00\00\00\00\ac\1f\00\00l\1f\00\00\99\03\00\00\00\00\00\00\ad\1f\00\00m\1f\00\00\99\03\00\00\00\00\00\00\ae\1f\00\00n\1f\00\00\99\03\00\00\00\00\00\00\af\1f\00\00o\1f\00\00\99\03\00\00\00\00\00\00\b2\1f\00\00\ba\1f\00\00\99\03\00\00\00\00\00\00\b3\1f\00\00\91\03\00\00\99\03\00\00\00\00\00\00\b4\1f\00\00\86\03\00\00\99\03\00\00\00\00\00\00\b6\1f\00\00\91\03\00\00B\03\00\00\00\00\00\00\b7\1f\00\00\91\03\00\00B\03\00\00\99\03\00\00\bc\1f\00\00\91\03\00\00\99\03\00\00\00\00\00\00\c2\1f\00\00\ca\1f\00\00\99\03\00\00\00\00\00\00\c3\1f\00\00\97\03\00\00\99\03\00\00\00\00\00\00\c4\1f\00\00\89\03\00\00\99\03\00\00\00\00\00\00\c6\1f\00\00\97\03\00\00B\03\00\00\00\00\00\00\c7\1f\00\00\97\03\00\00B\03\00\00\99\03\00\00\cc\1f\00\00\97\03\00\00\99\03\00\00\00\00\00\00\d2\1f\00\00\99\03\00\00\08\03\00\00\00\03\00\00\d3\1f\00\00\99\03\00\00\08\03\00\00\01\03\00\00\d6\1f\00\00\99\03\00\00B\03\00\00\00\00\00\00\d7\1f\00\00\99\03\00\00\08\03\00\00B\03\00\00\e2\1f\00\00\a5\03\00\00\08\03\00\00\00\03\00\00\e3\1f\00\00\a5\03\00\00\08\03\00\00\01\03\00\00\e4\1f\00\00\a1\03\00\00\13\03\00\00\00\00\00\00\e6\1f\00\00\a5\03\00\00B\03\00\00\00\00\00\00\e7\1f\00\00\a5\03\00\00\08\03\00\00B\03\00\00\f2\1f\00\00\fa\1f\00\00\99\03\00\00\00\00\00\00\f3\1f\00\00\a9\03\00\00\99\03\00\00\00\00\00\00\f4\1f\00\00\8f\03\00\00\99\03\00\00\00\00\00\00\f6\1f\00\00\a9\03\00\00B\03\00\00\00\00\00\00\f7\1f\00\00\a9\03\00\00B\03\00\00\99\03\00\00\fc\1f\00\00\a9\03\00\00\99\03\00\00\00\00\00\00\00\fb\00\00F\00\00\00F\00\00\00\00\00\00\00\01\fb\00\00F\00\00\00I\00\00\00\00\00\00\00\02\fb\00\00F\00\00\00L\00\00\00\00\00\00\00\03\fb\00\00F\00\00\00F\00\00\00I\00\00\00\04\fb\00\00F\00\00\00F\00\00\00L\00\00\00\05\fb\00\00S\00\00\00T\00\00\00\00\00\00\00\06\fb\00\00S\00\00\00T\00\00\00\00\00\00\00\13\fb\00\00D\05\00\00F\05\00\00\00\00\00\00\14\fb\00\00D\05\00\005\05\00\00\00\00\00\00\15\fb\00\00D\05\00\00;\05\00\00\00\00\00\00\16\fb\00\00N\05\00\00F\05\00\00\00\00\00\00\17\fb\00\00D\05\00\00=\05\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 10304) "@ \00\00\98\01\00\00")
+ (data (i32.const 10312) "\10\00\00\00\00\00\00\000\01\00\00i\00\00\00\07\03\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 10344) "H(\00\00\04\00\00\00")
+ (data (i32.const 10352) "\f8\04\00\00\00\00\00\00A\00\00\00Z\00\00\00a\00\00\00z\00\00\00\aa\00\00\00\aa\00\00\00\b5\00\00\00\b5\00\00\00\ba\00\00\00\ba\00\00\00\c0\00\00\00\d6\00\00\00\d8\00\00\00\f6\00\00\00\f8\00\00\00\ba\01\00\00\bc\01\00\00\bf\01\00\00\c4\01\00\00\93\02\00\00\95\02\00\00\b8\02\00\00\c0\02\00\00\c1\02\00\00\e0\02\00\00\e4\02\00\00E\03\00\00E\03\00\00p\03\00\00s\03\00\00v\03\00\00w\03\00\00z\03\00\00}\03\00\00\7f\03\00\00\7f\03\00\00\86\03\00\00\86\03\00\00\88\03\00\00\8a\03\00\00\8c\03\00\00\8c\03\00\00\8e\03\00\00\a1\03\00\00\a3\03\00\00\f5\03\00\00\f7\03\00\00\81\04\00\00\8a\04\00\00/\05\00\001\05\00\00V\05\00\00`\05\00\00\88\05\00\00\a0\10\00\00\c5\10\00\00\c7\10\00\00\c7\10\00\00\cd\10\00\00\cd\10\00\00\d0\10\00\00\fa\10\00\00\fc\10\00\00\ff\10\00\00\a0\13\00\00\f5\13\00\00\f8\13\00\00\fd\13\00\00\80\1c\00\00\8a\1c\00\00\90\1c\00\00\ba\1c\00\00\bd\1c\00\00\bf\1c\00\00\00\1d\00\00\bf\1d\00\00\00\1e\00\00\15\1f\00\00\18\1f\00\00\1d\1f\00\00 \1f\00\00E\1f\00\00H\1f\00\00M\1f\00\00P\1f\00\00W\1f\00\00Y\1f\00\00Y\1f\00\00[\1f\00\00[\1f\00\00]\1f\00\00]\1f\00\00_\1f\00\00}\1f\00\00\80\1f\00\00\b4\1f\00\00\b6\1f\00\00\bc\1f\00\00\be\1f\00\00\be\1f\00\00\c2\1f\00\00\c4\1f\00\00\c6\1f\00\00\cc\1f\00\00\d0\1f\00\00\d3\1f\00\00\d6\1f\00\00\db\1f\00\00\e0\1f\00\00\ec\1f\00\00\f2\1f\00\00\f4\1f\00\00\f6\1f\00\00\fc\1f\00\00q \00\00q \00\00\7f \00\00\7f \00\00\90 \00\00\9c \00\00\02!\00\00\02!\00\00\07!\00\00\07!\00\00\n!\00\00\13!\00\00\15!\00\00\15!\00\00\19!\00\00\1d!\00\00$!\00\00$!\00\00&!\00\00&!\00\00(!\00\00(!\00\00*!\00\00-!\00\00/!\00\004!\00\009!\00\009!\00\00<!\00\00?!\00\00E!\00\00I!\00\00N!\00\00N!\00\00`!\00\00\7f!\00\00\83!\00\00\84!\00\00\b6$\00\00\e9$\00\00\00,\00\00\e4,\00\00\eb,\00\00\ee,\00\00\f2,\00\00\f3,\00\00\00-\00\00%-\00\00\'-\00\00\'-\00\00--\00\00--\00\00@\a6\00\00m\a6\00\00\80\a6\00\00\9d\a6\00\00\"\a7\00\00\87\a7\00\00\8b\a7\00\00\8e\a7\00\00\90\a7\00\00\cd\a7\00\00\d0\a7\00\00\d1\a7\00\00\d3\a7\00\00\d3\a7\00\00\d5\a7\00\00\dc\a7\00\00\f2\a7\00\00\f6\a7\00\00\f8\a7\00\00\fa\a7\00\000\ab\00\00Z\ab\00\00\\\ab\00\00i\ab\00\00p\ab\00\00\bf\ab\00\00\00\fb\00\00\06\fb\00\00\13\fb\00\00\17\fb\00\00!\ff\00\00:\ff\00\00A\ff\00\00Z\ff\00\00\00\04\01\00O\04\01\00\b0\04\01\00\d3\04\01\00\d8\04\01\00\fb\04\01\00p\05\01\00z\05\01\00|\05\01\00\8a\05\01\00\8c\05\01\00\92\05\01\00\94\05\01\00\95\05\01\00\97\05\01\00\a1\05\01\00\a3\05\01\00\b1\05\01\00\b3\05\01\00\b9\05\01\00\bb\05\01\00\bc\05\01\00\80\07\01\00\80\07\01\00\83\07\01\00\85\07\01\00\87\07\01\00\b0\07\01\00\b2\07\01\00\ba\07\01\00\80\0c\01\00\b2\0c\01\00\c0\0c\01\00\f2\0c\01\00P\0d\01\00e\0d\01\00p\0d\01\00\85\0d\01\00\a0\18\01\00\df\18\01\00@n\01\00\7fn\01\00\00\d4\01\00T\d4\01\00V\d4\01\00\9c\d4\01\00\9e\d4\01\00\9f\d4\01\00\a2\d4\01\00\a2\d4\01\00\a5\d4\01\00\a6\d4\01\00\a9\d4\01\00\ac\d4\01\00\ae\d4\01\00\b9\d4\01\00\bb\d4\01\00\bb\d4\01\00\bd\d4\01\00\c3\d4\01\00\c5\d4\01\00\05\d5\01\00\07\d5\01\00\n\d5\01\00\0d\d5\01\00\14\d5\01\00\16\d5\01\00\1c\d5\01\00\1e\d5\01\009\d5\01\00;\d5\01\00>\d5\01\00@\d5\01\00D\d5\01\00F\d5\01\00F\d5\01\00J\d5\01\00P\d5\01\00R\d5\01\00\a5\d6\01\00\a8\d6\01\00\c0\d6\01\00\c2\d6\01\00\da\d6\01\00\dc\d6\01\00\fa\d6\01\00\fc\d6\01\00\14\d7\01\00\16\d7\01\004\d7\01\006\d7\01\00N\d7\01\00P\d7\01\00n\d7\01\00p\d7\01\00\88\d7\01\00\8a\d7\01\00\a8\d7\01\00\aa\d7\01\00\c2\d7\01\00\c4\d7\01\00\cb\d7\01\00\00\df\01\00\t\df\01\00\0b\df\01\00\1e\df\01\00%\df\01\00*\df\01\000\e0\01\00m\e0\01\00\00\e9\01\00C\e9\01\000\f1\01\00I\f1\01\00P\f1\01\00i\f1\01\00p\f1\01\00\89\f1\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 12400) "p(\00\00>\01\00\00")
+ (data (i32.const 12408) " \0e\00\00\00\00\00\00\'\00\00\00\'\00\00\00.\00\00\00.\00\00\00:\00\00\00:\00\00\00^\00\00\00^\00\00\00`\00\00\00`\00\00\00\a8\00\00\00\a8\00\00\00\ad\00\00\00\ad\00\00\00\af\00\00\00\af\00\00\00\b4\00\00\00\b4\00\00\00\b7\00\00\00\b8\00\00\00\b0\02\00\00o\03\00\00t\03\00\00u\03\00\00z\03\00\00z\03\00\00\84\03\00\00\85\03\00\00\87\03\00\00\87\03\00\00\83\04\00\00\89\04\00\00Y\05\00\00Y\05\00\00_\05\00\00_\05\00\00\91\05\00\00\bd\05\00\00\bf\05\00\00\bf\05\00\00\c1\05\00\00\c2\05\00\00\c4\05\00\00\c5\05\00\00\c7\05\00\00\c7\05\00\00\f4\05\00\00\f4\05\00\00\00\06\00\00\05\06\00\00\10\06\00\00\1a\06\00\00\1c\06\00\00\1c\06\00\00@\06\00\00@\06\00\00K\06\00\00_\06\00\00p\06\00\00p\06\00\00\d6\06\00\00\dd\06\00\00\df\06\00\00\e8\06\00\00\ea\06\00\00\ed\06\00\00\0f\07\00\00\0f\07\00\00\11\07\00\00\11\07\00\000\07\00\00J\07\00\00\a6\07\00\00\b0\07\00\00\eb\07\00\00\f5\07\00\00\fa\07\00\00\fa\07\00\00\fd\07\00\00\fd\07\00\00\16\08\00\00-\08\00\00Y\08\00\00[\08\00\00\88\08\00\00\88\08\00\00\90\08\00\00\91\08\00\00\97\08\00\00\9f\08\00\00\c9\08\00\00\02\t\00\00:\t\00\00:\t\00\00<\t\00\00<\t\00\00A\t\00\00H\t\00\00M\t\00\00M\t\00\00Q\t\00\00W\t\00\00b\t\00\00c\t\00\00q\t\00\00q\t\00\00\81\t\00\00\81\t\00\00\bc\t\00\00\bc\t\00\00\c1\t\00\00\c4\t\00\00\cd\t\00\00\cd\t\00\00\e2\t\00\00\e3\t\00\00\fe\t\00\00\fe\t\00\00\01\n\00\00\02\n\00\00<\n\00\00<\n\00\00A\n\00\00B\n\00\00G\n\00\00H\n\00\00K\n\00\00M\n\00\00Q\n\00\00Q\n\00\00p\n\00\00q\n\00\00u\n\00\00u\n\00\00\81\n\00\00\82\n\00\00\bc\n\00\00\bc\n\00\00\c1\n\00\00\c5\n\00\00\c7\n\00\00\c8\n\00\00\cd\n\00\00\cd\n\00\00\e2\n\00\00\e3\n\00\00\fa\n\00\00\ff\n\00\00\01\0b\00\00\01\0b\00\00<\0b\00\00<\0b\00\00?\0b\00\00?\0b\00\00A\0b\00\00D\0b\00\00M\0b\00\00M\0b\00\00U\0b\00\00V\0b\00\00b\0b\00\00c\0b\00\00\82\0b\00\00\82\0b\00\00\c0\0b\00\00\c0\0b\00\00\cd\0b\00\00\cd\0b\00\00\00\0c\00\00\00\0c\00\00\04\0c\00\00\04\0c\00\00<\0c\00\00<\0c\00\00>\0c\00\00@\0c\00\00F\0c\00\00H\0c\00\00J\0c\00\00M\0c\00\00U\0c\00\00V\0c\00\00b\0c\00\00c\0c\00\00\81\0c\00\00\81\0c\00\00\bc\0c\00\00\bc\0c\00\00\bf\0c\00\00\bf\0c\00\00\c6\0c\00\00\c6\0c\00\00\cc\0c\00\00\cd\0c\00\00\e2\0c\00\00\e3\0c\00\00\00\0d\00\00\01\0d\00\00;\0d\00\00<\0d\00\00A\0d\00\00D\0d\00\00M\0d\00\00M\0d\00\00b\0d\00\00c\0d\00\00\81\0d\00\00\81\0d\00\00\ca\0d\00\00\ca\0d\00\00\d2\0d\00\00\d4\0d\00\00\d6\0d\00\00\d6\0d\00\001\0e\00\001\0e\00\004\0e\00\00:\0e\00\00F\0e\00\00N\0e\00\00\b1\0e\00\00\b1\0e\00\00\b4\0e\00\00\bc\0e\00\00\c6\0e\00\00\c6\0e\00\00\c8\0e\00\00\ce\0e\00\00\18\0f\00\00\19\0f\00\005\0f\00\005\0f\00\007\0f\00\007\0f\00\009\0f\00\009\0f\00\00q\0f\00\00~\0f\00\00\80\0f\00\00\84\0f\00\00\86\0f\00\00\87\0f\00\00\8d\0f\00\00\97\0f\00\00\99\0f\00\00\bc\0f\00\00\c6\0f\00\00\c6\0f\00\00-\10\00\000\10\00\002\10\00\007\10\00\009\10\00\00:\10\00\00=\10\00\00>\10\00\00X\10\00\00Y\10\00\00^\10\00\00`\10\00\00q\10\00\00t\10\00\00\82\10\00\00\82\10\00\00\85\10\00\00\86\10\00\00\8d\10\00\00\8d\10\00\00\9d\10\00\00\9d\10\00\00\fc\10\00\00\fc\10\00\00]\13\00\00_\13\00\00\12\17\00\00\14\17\00\002\17\00\003\17\00\00R\17\00\00S\17\00\00r\17\00\00s\17\00\00\b4\17\00\00\b5\17\00\00\b7\17\00\00\bd\17\00\00\c6\17\00\00\c6\17\00\00\c9\17\00\00\d3\17\00\00\d7\17\00\00\d7\17\00\00\dd\17\00\00\dd\17\00\00\0b\18\00\00\0f\18\00\00C\18\00\00C\18\00\00\85\18\00\00\86\18\00\00\a9\18\00\00\a9\18\00\00 \19\00\00\"\19\00\00\'\19\00\00(\19\00\002\19\00\002\19\00\009\19\00\00;\19\00\00\17\1a\00\00\18\1a\00\00\1b\1a\00\00\1b\1a\00\00V\1a\00\00V\1a\00\00X\1a\00\00^\1a\00\00`\1a\00\00`\1a\00\00b\1a\00\00b\1a\00\00e\1a\00\00l\1a\00\00s\1a\00\00|\1a\00\00\7f\1a\00\00\7f\1a\00\00\a7\1a\00\00\a7\1a\00\00\b0\1a\00\00\ce\1a\00\00\00\1b\00\00\03\1b\00\004\1b\00\004\1b\00\006\1b\00\00:\1b\00\00<\1b\00\00<\1b\00\00B\1b\00\00B\1b\00\00k\1b\00\00s\1b\00\00\80\1b\00\00\81\1b\00\00\a2\1b\00\00\a5\1b\00\00\a8\1b\00\00\a9\1b\00\00\ab\1b\00\00\ad\1b\00\00\e6\1b\00\00\e6\1b\00\00\e8\1b\00\00\e9\1b\00\00\ed\1b\00\00\ed\1b\00\00\ef\1b\00\00\f1\1b\00\00,\1c\00\003\1c\00\006\1c\00\007\1c\00\00x\1c\00\00}\1c\00\00\d0\1c\00\00\d2\1c\00\00\d4\1c\00\00\e0\1c\00\00\e2\1c\00\00\e8\1c\00\00\ed\1c\00\00\ed\1c\00\00\f4\1c\00\00\f4\1c\00\00\f8\1c\00\00\f9\1c\00\00,\1d\00\00j\1d\00\00x\1d\00\00x\1d\00\00\9b\1d\00\00\ff\1d\00\00\bd\1f\00\00\bd\1f\00\00\bf\1f\00\00\c1\1f\00\00\cd\1f\00\00\cf\1f\00\00\dd\1f\00\00\df\1f\00\00\ed\1f\00\00\ef\1f\00\00\fd\1f\00\00\fe\1f\00\00\0b \00\00\0f \00\00\18 \00\00\19 \00\00$ \00\00$ \00\00\' \00\00\' \00\00* \00\00. \00\00` \00\00d \00\00f \00\00o \00\00q \00\00q \00\00\7f \00\00\7f \00\00\90 \00\00\9c \00\00\d0 \00\00\f0 \00\00|,\00\00},\00\00\ef,\00\00\f1,\00\00o-\00\00o-\00\00\7f-\00\00\7f-\00\00\e0-\00\00\ff-\00\00/.\00\00/.\00\00\050\00\00\050\00\00*0\00\00-0\00\0010\00\0050\00\00;0\00\00;0\00\00\990\00\00\9e0\00\00\fc0\00\00\fe0\00\00\15\a0\00\00\15\a0\00\00\f8\a4\00\00\fd\a4\00\00\0c\a6\00\00\0c\a6\00\00o\a6\00\00r\a6\00\00t\a6\00\00}\a6\00\00\7f\a6\00\00\7f\a6\00\00\9c\a6\00\00\9f\a6\00\00\f0\a6\00\00\f1\a6\00\00\00\a7\00\00!\a7\00\00p\a7\00\00p\a7\00\00\88\a7\00\00\8a\a7\00\00\f2\a7\00\00\f4\a7\00\00\f8\a7\00\00\f9\a7\00\00\02\a8\00\00\02\a8\00\00\06\a8\00\00\06\a8\00\00\0b\a8\00\00\0b\a8\00\00%\a8\00\00&\a8\00\00,\a8\00\00,\a8\00\00\c4\a8\00\00\c5\a8\00\00\e0\a8\00\00\f1\a8\00\00\ff\a8\00\00\ff\a8\00\00&\a9\00\00-\a9\00\00G\a9\00\00Q\a9\00\00\80\a9\00\00\82\a9\00\00\b3\a9\00\00\b3\a9\00\00\b6\a9\00\00\b9\a9\00\00\bc\a9\00\00\bd\a9\00\00\cf\a9\00\00\cf\a9\00\00\e5\a9\00\00\e6\a9\00\00)\aa\00\00.\aa\00\001\aa\00\002\aa\00\005\aa\00\006\aa\00\00C\aa\00\00C\aa\00\00L\aa\00\00L\aa\00\00p\aa\00\00p\aa\00\00|\aa\00\00|\aa\00\00\b0\aa\00\00\b0\aa\00\00\b2\aa\00\00\b4\aa\00\00\b7\aa\00\00\b8\aa\00\00\be\aa\00\00\bf\aa\00\00\c1\aa\00\00\c1\aa\00\00\dd\aa\00\00\dd\aa\00\00\ec\aa\00\00\ed\aa\00\00\f3\aa\00\00\f4\aa\00\00\f6\aa\00\00\f6\aa\00\00[\ab\00\00_\ab\00\00i\ab\00\00k\ab\00\00\e5\ab\00\00\e5\ab\00\00\e8\ab\00\00\e8\ab\00\00\ed\ab\00\00\ed\ab\00\00\1e\fb\00\00\1e\fb\00\00\b2\fb\00\00\c2\fb\00\00\00\fe\00\00\0f\fe\00\00\13\fe\00\00\13\fe\00\00 \fe\00\00/\fe\00\00R\fe\00\00R\fe\00\00U\fe\00\00U\fe\00\00\ff\fe\00\00\ff\fe\00\00\07\ff\00\00\07\ff\00\00\0e\ff\00\00\0e\ff\00\00\1a\ff\00\00\1a\ff\00\00>\ff\00\00>\ff\00\00@\ff\00\00@\ff\00\00p\ff\00\00p\ff\00\00\9e\ff\00\00\9f\ff\00\00\e3\ff\00\00\e3\ff\00\00\f9\ff\00\00\fb\ff\00\00\fd\01\01\00\fd\01\01\00\e0\02\01\00\e0\02\01\00v\03\01\00z\03\01\00\80\07\01\00\85\07\01\00\87\07\01\00\b0\07\01\00\b2\07\01\00\ba\07\01\00\01\n\01\00\03\n\01\00\05\n\01\00\06\n\01\00\0c\n\01\00\0f\n\01\008\n\01\00:\n\01\00?\n\01\00?\n\01\00\e5\n\01\00\e6\n\01\00$\0d\01\00\'\0d\01\00N\0d\01\00N\0d\01\00i\0d\01\00m\0d\01\00o\0d\01\00o\0d\01\00\ab\0e\01\00\ac\0e\01\00\fc\0e\01\00\ff\0e\01\00F\0f\01\00P\0f\01\00\82\0f\01\00\85\0f\01\00\01\10\01\00\01\10\01\008\10\01\00F\10\01\00p\10\01\00p\10\01\00s\10\01\00t\10\01\00\7f\10\01\00\81\10\01\00\b3\10\01\00\b6\10\01\00\b9\10\01\00\ba\10\01\00\bd\10\01\00\bd\10\01\00\c2\10\01\00\c2\10\01\00\cd\10\01\00\cd\10\01\00\00\11\01\00\02\11\01\00\'\11\01\00+\11\01\00-\11\01\004\11\01\00s\11\01\00s\11\01\00\80\11\01\00\81\11\01\00\b6\11\01\00\be\11\01\00\c9\11\01\00\cc\11\01\00\cf\11\01\00\cf\11\01\00/\12\01\001\12\01\004\12\01\004\12\01\006\12\01\007\12\01\00>\12\01\00>\12\01\00A\12\01\00A\12\01\00\df\12\01\00\df\12\01\00\e3\12\01\00\ea\12\01\00\00\13\01\00\01\13\01\00;\13\01\00<\13\01\00@\13\01\00@\13\01\00f\13\01\00l\13\01\00p\13\01\00t\13\01\00\bb\13\01\00\c0\13\01\00\ce\13\01\00\ce\13\01\00\d0\13\01\00\d0\13\01\00\d2\13\01\00\d2\13\01\00\e1\13\01\00\e2\13\01\008\14\01\00?\14\01\00B\14\01\00D\14\01\00F\14\01\00F\14\01\00^\14\01\00^\14\01\00\b3\14\01\00\b8\14\01\00\ba\14\01\00\ba\14\01\00\bf\14\01\00\c0\14\01\00\c2\14\01\00\c3\14\01\00\b2\15\01\00\b5\15\01\00\bc\15\01\00\bd\15\01\00\bf\15\01\00\c0\15\01\00\dc\15\01\00\dd\15\01\003\16\01\00:\16\01\00=\16\01\00=\16\01\00?\16\01\00@\16\01\00\ab\16\01\00\ab\16\01\00\ad\16\01\00\ad\16\01\00\b0\16\01\00\b5\16\01\00\b7\16\01\00\b7\16\01\00\1d\17\01\00\1d\17\01\00\1f\17\01\00\1f\17\01\00\"\17\01\00%\17\01\00\'\17\01\00+\17\01\00/\18\01\007\18\01\009\18\01\00:\18\01\00;\19\01\00<\19\01\00>\19\01\00>\19\01\00C\19\01\00C\19\01\00\d4\19\01\00\d7\19\01\00\da\19\01\00\db\19\01\00\e0\19\01\00\e0\19\01\00\01\1a\01\00\n\1a\01\003\1a\01\008\1a\01\00;\1a\01\00>\1a\01\00G\1a\01\00G\1a\01\00Q\1a\01\00V\1a\01\00Y\1a\01\00[\1a\01\00\8a\1a\01\00\96\1a\01\00\98\1a\01\00\99\1a\01\000\1c\01\006\1c\01\008\1c\01\00=\1c\01\00?\1c\01\00?\1c\01\00\92\1c\01\00\a7\1c\01\00\aa\1c\01\00\b0\1c\01\00\b2\1c\01\00\b3\1c\01\00\b5\1c\01\00\b6\1c\01\001\1d\01\006\1d\01\00:\1d\01\00:\1d\01\00<\1d\01\00=\1d\01\00?\1d\01\00E\1d\01\00G\1d\01\00G\1d\01\00\90\1d\01\00\91\1d\01\00\95\1d\01\00\95\1d\01\00\97\1d\01\00\97\1d\01\00\f3\1e\01\00\f4\1e\01\00\00\1f\01\00\01\1f\01\006\1f\01\00:\1f\01\00@\1f\01\00@\1f\01\00B\1f\01\00B\1f\01\00Z\1f\01\00Z\1f\01\0004\01\00@4\01\00G4\01\00U4\01\00\1ea\01\00)a\01\00-a\01\00/a\01\00\f0j\01\00\f4j\01\000k\01\006k\01\00@k\01\00Ck\01\00@m\01\00Bm\01\00km\01\00lm\01\00Oo\01\00Oo\01\00\8fo\01\00\9fo\01\00\e0o\01\00\e1o\01\00\e3o\01\00\e4o\01\00\f0\af\01\00\f3\af\01\00\f5\af\01\00\fb\af\01\00\fd\af\01\00\fe\af\01\00\9d\bc\01\00\9e\bc\01\00\a0\bc\01\00\a3\bc\01\00\00\cf\01\00-\cf\01\000\cf\01\00F\cf\01\00g\d1\01\00i\d1\01\00s\d1\01\00\82\d1\01\00\85\d1\01\00\8b\d1\01\00\aa\d1\01\00\ad\d1\01\00B\d2\01\00D\d2\01\00\00\da\01\006\da\01\00;\da\01\00l\da\01\00u\da\01\00u\da\01\00\84\da\01\00\84\da\01\00\9b\da\01\00\9f\da\01\00\a1\da\01\00\af\da\01\00\00\e0\01\00\06\e0\01\00\08\e0\01\00\18\e0\01\00\1b\e0\01\00!\e0\01\00#\e0\01\00$\e0\01\00&\e0\01\00*\e0\01\000\e0\01\00m\e0\01\00\8f\e0\01\00\8f\e0\01\000\e1\01\00=\e1\01\00\ae\e2\01\00\ae\e2\01\00\ec\e2\01\00\ef\e2\01\00\eb\e4\01\00\ef\e4\01\00\ee\e5\01\00\ef\e5\01\00\d0\e8\01\00\d6\e8\01\00D\e9\01\00K\e9\01\00\fb\f3\01\00\ff\f3\01\00\01\00\0e\00\01\00\0e\00 \00\0e\00\7f\00\0e\00\00\01\0e\00\ef\01\0e\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 16504) "x0\00\00\88\03\00\00")
+ (data (i32.const 16512) "\17\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00s\00t\00r\00i\00n\00g\00.\00t\00s\00")
+ (data (i32.const 16568) "\15\00\00\00s\00t\00d\00/\00s\00t\00r\00i\00n\00g\00-\00u\00n\00i\00c\00o\00d\00e\00.\00t\00s\00")
+ (data (i32.const 16616) "\0d\00\00\00H\00e\00l\00l\00o\00,\00 \00W\00o\00r\00l\00d\00!\00")
+ (data (i32.const 16648) "\0d\00\00\00h\00e\00l\00l\00o\00,\00 \00w\00o\00r\00l\00d\00!\00")
+ (data (i32.const 16680) "\0d\00\00\00H\00E\00L\00L\00O\00,\00 \00W\00O\00R\00L\00D\00!\00")
+ (data (i32.const 16712) "\03\00\00\00a\00b\00c\00")
+ (data (i32.const 16728) "\05\00\00\00\c0\00\c9\00\ce\00\f5\00\fc\00")
+ (data (i32.const 16744) "\05\00\00\00\e0\00\e9\00\ee\00\f5\00\fc\00")
+ (data (i32.const 16760) "\06\00\00\00\e0\00\e9\00\ee\00\f5\00\fc\00\ff\00")
+ (data (i32.const 16776) "\06\00\00\00\c0\00\c9\00\ce\00\d5\00\dc\00x\01")
+ (data (i32.const 16792) "\06\00\00\00\1f\04@\048\042\045\04B\04")
+ (data (i32.const 16808) "\06\00\00\00\1f\04 \04\18\04\12\04\15\04\"\04")
+ (data (i32.const 16824) "\03\00\00\00\91\03\92\03\93\03")
+ (data (i32.const 16840) "\03\00\00\00\b1\03\b2\03\b3\03")
+ (data (i32.const 16856) "\02\00\00\00\01\d87\dc")
+ (data (i32.const 16864) "\02\00\00\00\01\d8\0f\dc")
+ (data (i32.const 16872) "\01\00\00\00\df\00")
+ (data (i32.const 16880) "\02\00\00\00S\00S\00")
+ (data (i32.const 16888) "\01\00\00\00\03\fb")
+ (data (i32.const 16896) "\03\00\00\00F\00F\00I\00")
+ (data (i32.const 16912) "\01\00\00\000\01")
+ (data (i32.const 16920) "\02\00\00\00i\00\07\03")
+ (data (i32.const 16928) "\01\00\00\00I\01")
+ (data (i32.const 16936) "\02\00\00\00\bc\02N\00")
+ (data (i32.const 16944) "\03\00\00\00\a3\03\91\03\a3\03")
+ (data (i32.const 16960) "\03\00\00\00\c3\03\b1\03\c2\03")
+ (data (i32.const 16976) "\04\00\00\00\a3\03\91\03\a3\03.\00")
+ (data (i32.const 16992) "\04\00\00\00\c3\03\b1\03\c2\03.\00")
+ (data (i32.const 17008) "\01\00\00\00\a3\03")
+ (data (i32.const 17016) "\01\00\00\00\c3\03")
+ (data (i32.const 17024) "\04\00\00\00\91\03\a3\03\'\00\91\03")
+ (data (i32.const 17040) "\04\00\00\00\b1\03\c3\03\'\00\b1\03")
+ (data (i32.const 17056) "\04\00\00\00\91\03\a3\03 \00\91\03")
+ (data (i32.const 17072) "\04\00\00\00\b1\03\c2\03 \00\b1\03")
+ (data (i32.const 17088) "\03\00\00\00N\00F\00C\00")
+ (data (i32.const 17104) "\14\00\00\00I\00n\00v\00a\00l\00i\00d\00 \00a\00r\00r\00a\00y\00 \00l\00e\00n\00g\00t\00h\00")
+ (data (i32.const 17152) "\0d\00\00\00~\00l\00i\00b\00/\00a\00r\00r\00a\00y\00.\00t\00s\00")
+ (data (i32.const 17184) "\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s\00")
+ (data (i32.const 17248) "\08A\00\00\00\00\00\00\c0\00\00\00\02\00\00\00\c1\00\00\00B\00\00\00\c2\00\00\00\82\00\00\00\c3\00\00\00\c2\00\00\00\c4\00\00\00\02\01\00\00\c5\00\00\00B\01\00\00\c7\00\00\00\82\01\00\00\c8\00\00\00\c2\01\00\00\c9\00\00\00\02\02\00\00\ca\00\00\00B\02\00\00\cb\00\00\00\82\02\00\00\cc\00\00\00\c2\02\00\00\cd\00\00\00\02\03\00\00\ce\00\00\00B\03\00\00\cf\00\00\00\82\03\00\00\d1\00\00\00\c2\03\00\00\d2\00\00\00\02\04\00\00\d3\00\00\00B\04\00\00\d4\00\00\00\82\04\00\00\d5\00\00\00\c2\04\00\00\d6\00\00\00\02\05\00\00\d9\00\00\00B\05\00\00\da\00\00\00\82\05\00\00\db\00\00\00\c2\05\00\00\dc\00\00\00\02\06\00\00\dd\00\00\00B\06\00\00\e0\00\00\00\82\06\00\00\e1\00\00\00\c2\06\00\00\e2\00\00\00\02\07\00\00\e3\00\00\00B\07\00\00\e4\00\00\00\82\07\00\00\e5\00\00\00\c2\07\00\00\e7\00\00\00\02\08\00\00\e8\00\00\00B\08\00\00\e9\00\00\00\82\08\00\00\ea\00\00\00\c2\08\00\00\eb\00\00\00\02\t\00\00\ec\00\00\00B\t\00\00\ed\00\00\00\82\t\00\00\ee\00\00\00\c2\t\00\00\ef\00\00\00\02\n\00\00\f1\00\00\00B\n\00\00\f2\00\00\00\82\n\00\00\f3\00\00\00\c2\n\00\00\f4\00\00\00\02\0b\00\00\f5\00\00\00B\0b\00\00\f6\00\00\00\82\0b\00\00\f9\00\00\00\c2\0b\00\00\fa\00\00\00\02\0c\00\00\fb\00\00\00B\0c\00\00\fc\00\00\00\82\0c\00\00\fd\00\00\00\c2\0c\00\00\ff\00\00\00\02\0d\00\00\00\01\00\00B\0d\00\00\01\01\00\00\82\0d\00\00\02\01\00\00\c2\0d\00\00\03\01\00\00\02\0e\00\00\04\01\00\00B\0e\00\00\05\01\00\00\82\0e\00\00\06\01\00\00\c2\0e\00\00\07\01\00\00\02\0f\00\00\08\01\00\00B\0f\00\00\t\01\00\00\82\0f\00\00\n\01\00\00\c2\0f\00\00\0b\01\00\00\02\10\00\00\0c\01\00\00B\10\00\00\0d\01\00\00\82\10\00\00\0e\01\00\00\c2\10\00\00\0f\01\00\00\02\11\00\00\12\01\00\00B\11\00\00\13\01\00\00\82\11\00\00\14\01\00\00\c2\11\00\00\15\01\00\00\02\12\00\00\16\01\00\00B\12\00\00\17\01\00\00\82\12\00\00\18\01\00\00\c2\12\00\00\19\01\00\00\02\13\00\00\1a\01\00\00B\13\00\00\1b\01\00\00\82\13\00\00\1c\01\00\00\c2\13\00\00\1d\01\00\00\02\14\00\00\1e\01\00\00B\14\00\00\1f\01\00\00\82\14\00\00 \01\00\00\c2\14\00\00!\01\00\00\02\15\00\00\"\01\00\00B\15\00\00#\01\00\00\82\15\00\00$\01\00\00\c2\15\00\00%\01\00\00\02\16\00\00(\01\00\00B\16\00\00)\01\00\00\82\16\00\00*\01\00\00\c2\16\00\00+\01\00\00\02\17\00\00,\01\00\00B\17\00\00-\01\00\00\82\17\00\00.\01\00\00\c2\17\00\00/\01\00\00\02\18\00\000\01\00\00B\18\00\004\01\00\00\82\18\00\005\01\00\00\c2\18\00\006\01\00\00\02\19\00\007\01\00\00B\19\00\009\01\00\00\82\19\00\00:\01\00\00\c2\19\00\00;\01\00\00\02\1a\00\00<\01\00\00B\1a\00\00=\01\00\00\82\1a\00\00>\01\00\00\c2\1a\00\00C\01\00\00\02\1b\00\00D\01\00\00B\1b\00\00E\01\00\00\82\1b\00\00F\01\00\00\c2\1b\00\00G\01\00\00\02\1c\00\00H\01\00\00B\1c\00\00L\01\00\00\82\1c\00\00M\01\00\00\c2\1c\00\00N\01\00\00\02\1d\00\00O\01\00\00B\1d\00\00P\01\00\00\82\1d\00\00Q\01\00\00\c2\1d\00\00T\01\00\00\02\1e\00\00U\01\00\00B\1e\00\00V\01\00\00\82\1e\00\00W\01\00\00\c2\1e\00\00X\01\00\00\02\1f\00\00Y\01\00\00B\1f\00\00Z\01\00\00\82\1f\00\00[\01\00\00\c2\1f\00\00\\\01\00\00\02 \00\00]\01\00\00B \00\00^\01\00\00\82 \00\00_\01\00\00\c2 \00\00`\01\00\00\02!\00\00a\01\00\00B!\00\00b\01\00\00\82!\00\00c\01\00\00\c2!\00\00d\01\00\00\02\"\00\00e\01\00\00B\"\00\00h\01\00\00\82\"\00\00i\01\00\00\c2\"\00\00j\01\00\00\02#\00\00k\01\00\00B#\00\00l\01\00\00\82#\00\00m\01\00\00\c2#\00\00n\01\00\00\02$\00\00o\01\00\00B$\00\00p\01\00\00\82$\00\00q\01\00\00\c2$\00\00r\01\00\00\02%\00\00s\01\00\00B%\00\00t\01\00\00\82%\00\00u\01\00\00\c2%\00\00v\01\00\00\02&\00\00w\01\00\00B&\00\00x\01\00\00\82&\00\00y\01\00\00\c2&\00\00z\01\00\00\02\'\00\00{\01\00\00B\'\00\00|\01\00\00\82\'\00\00}\01\00\00\c2\'\00\00~\01\00\00\02(\00\00\a0\01\00\00B(\00\00\a1\01\00\00\82(\00\00\af\01\00\00\c2(\00\00\b0\01\00\00\02)\00\00\cd\01\00\00B)\00\00\ce\01\00\00\82)\00\00\cf\01\00\00\c2)\00\00\d0\01\00\00\02*\00\00\d1\01\00\00B*\00\00\d2\01\00\00\82*\00\00\d3\01\00\00\c2*\00\00\d4\01\00\00\02+\00\00\d5\01\00\00C+\00\00\d6\01\00\00\a3+\00\00\d7\01\00\00\03,\00\00\d8\01\00\00c,\00\00\d9\01\00\00\c3,\00\00\da\01\00\00#-\00\00\db\01\00\00\83-\00\00\dc\01\00\00\e3-\00\00\de\01\00\00C.\00\00\df\01\00\00\a3.\00\00\e0\01\00\00\03/\00\00\e1\01\00\00c/\00\00\e2\01\00\00\c2/\00\00\e3\01\00\00\020\00\00\e6\01\00\00B0\00\00\e7\01\00\00\820\00\00\e8\01\00\00\c20\00\00\e9\01\00\00\021\00\00\ea\01\00\00B1\00\00\eb\01\00\00\821\00\00\ec\01\00\00\c31\00\00\ed\01\00\00#2\00\00\ee\01\00\00\822\00\00\ef\01\00\00\c22\00\00\f0\01\00\00\023\00\00\f4\01\00\00B3\00\00\f5\01\00\00\823\00\00\f8\01\00\00\c23\00\00\f9\01\00\00\024\00\00\fa\01\00\00C4\00\00\fb\01\00\00\a34\00\00\fc\01\00\00\025\00\00\fd\01\00\00B5\00\00\fe\01\00\00\825\00\00\ff\01\00\00\c25\00\00\00\02\00\00\026\00\00\01\02\00\00B6\00\00\02\02\00\00\826\00\00\03\02\00\00\c26\00\00\04\02\00\00\027\00\00\05\02\00\00B7\00\00\06\02\00\00\827\00\00\07\02\00\00\c27\00\00\08\02\00\00\028\00\00\t\02\00\00B8\00\00\n\02\00\00\828\00\00\0b\02\00\00\c28\00\00\0c\02\00\00\029\00\00\0d\02\00\00B9\00\00\0e\02\00\00\829\00\00\0f\02\00\00\c29\00\00\10\02\00\00\02:\00\00\11\02\00\00B:\00\00\12\02\00\00\82:\00\00\13\02\00\00\c2:\00\00\14\02\00\00\02;\00\00\15\02\00\00B;\00\00\16\02\00\00\82;\00\00\17\02\00\00\c2;\00\00\18\02\00\00\02<\00\00\19\02\00\00B<\00\00\1a\02\00\00\82<\00\00\1b\02\00\00\c2<\00\00\1e\02\00\00\02=\00\00\1f\02\00\00B=\00\00&\02\00\00\82=\00\00\'\02\00\00\c2=\00\00(\02\00\00\02>\00\00)\02\00\00B>\00\00*\02\00\00\83>\00\00+\02\00\00\e3>\00\00,\02\00\00C?\00\00-\02\00\00\a3?\00\00.\02\00\00\02@\00\00/\02\00\00B@\00\000\02\00\00\83@\00\001\02\00\00\e3@\00\002\02\00\00BA\00\003\02\00\00\82A\00\00@\03\00\00\c1A\00\00A\03\00\00\e1A\00\00C\03\00\00\01B\00\00D\03\00\00\"B\00\00t\03\00\00aB\00\00~\03\00\00\81B\00\00\85\03\00\00\a2B\00\00\86\03\00\00\e2B\00\00\87\03\00\00!C\00\00\88\03\00\00BC\00\00\89\03\00\00\82C\00\00\8a\03\00\00\c2C\00\00\8c\03\00\00\02D\00\00\8e\03\00\00BD\00\00\8f\03\00\00\82D\00\00\90\03\00\00\c3D\00\00\aa\03\00\00\"E\00\00\ab\03\00\00bE\00\00\ac\03\00\00\a2E\00\00\ad\03\00\00\e2E\00\00\ae\03\00\00\"F\00\00\af\03\00\00bF\00\00\b0\03\00\00\a3F\00\00\ca\03\00\00\02G\00\00\cb\03\00\00BG\00\00\cc\03\00\00\82G\00\00\cd\03\00\00\c2G\00\00\ce\03\00\00\02H\00\00\d3\03\00\00BH\00\00\d4\03\00\00\82H\00\00\00\04\00\00\c2H\00\00\01\04\00\00\02I\00\00\03\04\00\00BI\00\00\07\04\00\00\82I\00\00\0c\04\00\00\c2I\00\00\0d\04\00\00\02J\00\00\0e\04\00\00BJ\00\00\19\04\00\00\82J\00\009\04\00\00\c2J\00\00P\04\00\00\02K\00\00Q\04\00\00BK\00\00S\04\00\00\82K\00\00W\04\00\00\c2K\00\00\\\04\00\00\02L\00\00]\04\00\00BL\00\00^\04\00\00\82L\00\00v\04\00\00\c2L\00\00w\04\00\00\02M\00\00\c1\04\00\00BM\00\00\c2\04\00\00\82M\00\00\d0\04\00\00\c2M\00\00\d1\04\00\00\02N\00\00\d2\04\00\00BN\00\00\d3\04\00\00\82N\00\00\d6\04\00\00\c2N\00\00\d7\04\00\00\02O\00\00\da\04\00\00BO\00\00\db\04\00\00\82O\00\00\dc\04\00\00\c2O\00\00\dd\04\00\00\02P\00\00\de\04\00\00BP\00\00\df\04\00\00\82P\00\00\e2\04\00\00\c2P\00\00\e3\04\00\00\02Q\00\00\e4\04\00\00BQ\00\00\e5\04\00\00\82Q\00\00\e6\04\00\00\c2Q\00\00\e7\04\00\00\02R\00\00\ea\04\00\00BR\00\00\eb\04\00\00\82R\00\00\ec\04\00\00\c2R\00\00\ed\04\00\00\02S\00\00\ee\04\00\00BS\00\00\ef\04\00\00\82S\00\00\f0\04\00\00\c2S\00\00\f1\04\00\00\02T\00\00\f2\04\00\00BT\00\00\f3\04\00\00\82T\00\00\f4\04\00\00\c2T\00\00\f5\04\00\00\02U\00\00\f8\04\00\00BU\00\00\f9\04\00\00\82U\00\00\"\06\00\00\c2U\00\00#\06\00\00\02V\00\00$\06\00\00BV\00\00%\06\00\00\82V\00\00&\06\00\00\c2V\00\00\c0\06\00\00\02W\00\00\c2\06\00\00BW\00\00\d3\06\00\00\82W\00\00)\t\00\00\c2W\00\001\t\00\00\02X\00\004\t\00\00BX\00\00X\t\00\00\82X\00\00Y\t\00\00\c2X\00\00Z\t\00\00\02Y\00\00[\t\00\00BY\00\00\\\t\00\00\82Y\00\00]\t\00\00\c2Y\00\00^\t\00\00\02Z\00\00_\t\00\00BZ\00\00\cb\t\00\00\82Z\00\00\cc\t\00\00\c2Z\00\00\dc\t\00\00\02[\00\00\dd\t\00\00B[\00\00\df\t\00\00\82[\00\003\n\00\00\c2[\00\006\n\00\00\02\\\00\00Y\n\00\00B\\\00\00Z\n\00\00\82\\\00\00[\n\00\00\c2\\\00\00^\n\00\00\02]\00\00H\0b\00\00B]\00\00K\0b\00\00\82]\00\00L\0b\00\00\c2]\00\00\\\0b\00\00\02^\00\00]\0b\00\00B^\00\00\94\0b\00\00\82^\00\00\ca\0b\00\00\c2^\00\00\cb\0b\00\00\02_\00\00\cc\0b\00\00B_\00\00H\0c\00\00\82_\00\00\c0\0c\00\00\c2_\00\00\c7\0c\00\00\02`\00\00\c8\0c\00\00B`\00\00\ca\0c\00\00\82`\00\00\cb\0c\00\00\c3`\00\00J\0d\00\00\"a\00\00K\0d\00\00ba\00\00L\0d\00\00\a2a\00\00\da\0d\00\00\e2a\00\00\dc\0d\00\00\"b\00\00\dd\0d\00\00cb\00\00\de\0d\00\00\c2b\00\00C\0f\00\00\02c\00\00M\0f\00\00Bc\00\00R\0f\00\00\82c\00\00W\0f\00\00\c2c\00\00\\\0f\00\00\02d\00\00i\0f\00\00Bd\00\00s\0f\00\00\82d\00\00u\0f\00\00\c2d\00\00v\0f\00\00\02e\00\00x\0f\00\00Be\00\00\81\0f\00\00\82e\00\00\93\0f\00\00\c2e\00\00\9d\0f\00\00\02f\00\00\a2\0f\00\00Bf\00\00\a7\0f\00\00\82f\00\00\ac\0f\00\00\c2f\00\00\b9\0f\00\00\02g\00\00&\10\00\00Bg\00\00\06\1b\00\00\82g\00\00\08\1b\00\00\c2g\00\00\n\1b\00\00\02h\00\00\0c\1b\00\00Bh\00\00\0e\1b\00\00\82h\00\00\12\1b\00\00\c2h\00\00;\1b\00\00\02i\00\00=\1b\00\00Bi\00\00@\1b\00\00\82i\00\00A\1b\00\00\c2i\00\00C\1b\00\00\02j\00\00\00\1e\00\00Bj\00\00\01\1e\00\00\82j\00\00\02\1e\00\00\c2j\00\00\03\1e\00\00\02k\00\00\04\1e\00\00Bk\00\00\05\1e\00\00\82k\00\00\06\1e\00\00\c2k\00\00\07\1e\00\00\02l\00\00\08\1e\00\00Cl\00\00\t\1e\00\00\a3l\00\00\n\1e\00\00\02m\00\00\0b\1e\00\00Bm\00\00\0c\1e\00\00\82m\00\00\0d\1e\00\00\c2m\00\00\0e\1e\00\00\02n\00\00\0f\1e\00\00Bn\00\00\10\1e\00\00\82n\00\00\11\1e\00\00\c2n\00\00\12\1e\00\00\02o\00\00\13\1e\00\00Bo\00\00\14\1e\00\00\83o\00\00\15\1e\00\00\e3o\00\00\16\1e\00\00Cp\00\00\17\1e\00\00\a3p\00\00\18\1e\00\00\02q\00\00\19\1e\00\00Bq\00\00\1a\1e\00\00\82q\00\00\1b\1e\00\00\c2q\00\00\1c\1e\00\00\03r\00\00\1d\1e\00\00cr\00\00\1e\1e\00\00\c2r\00\00\1f\1e\00\00\02s\00\00 \1e\00\00Bs\00\00!\1e\00\00\82s\00\00\"\1e\00\00\c2s\00\00#\1e\00\00\02t\00\00$\1e\00\00Bt\00\00%\1e\00\00\82t\00\00&\1e\00\00\c2t\00\00\'\1e\00\00\02u\00\00(\1e\00\00Bu\00\00)\1e\00\00\82u\00\00*\1e\00\00\c2u\00\00+\1e\00\00\02v\00\00,\1e\00\00Bv\00\00-\1e\00\00\82v\00\00.\1e\00\00\c3v\00\00/\1e\00\00#w\00\000\1e\00\00\82w\00\001\1e\00\00\c2w\00\002\1e\00\00\02x\00\003\1e\00\00Bx\00\004\1e\00\00\82x\00\005\1e\00\00\c2x\00\006\1e\00\00\02y\00\007\1e\00\00By\00\008\1e\00\00\83y\00\009\1e\00\00\e3y\00\00:\1e\00\00Bz\00\00;\1e\00\00\82z\00\00<\1e\00\00\c2z\00\00=\1e\00\00\02{\00\00>\1e\00\00B{\00\00?\1e\00\00\82{\00\00@\1e\00\00\c2{\00\00A\1e\00\00\02|\00\00B\1e\00\00B|\00\00C\1e\00\00\82|\00\00D\1e\00\00\c2|\00\00E\1e\00\00\02}\00\00F\1e\00\00B}\00\00G\1e\00\00\82}\00\00H\1e\00\00\c2}\00\00I\1e\00\00\02~\00\00J\1e\00\00B~\00\00K\1e\00\00\82~\00\00L\1e\00\00\c3~\00\00M\1e\00\00#\7f\00\00N\1e\00\00\83\7f\00\00O\1e\00\00\e3\7f\00\00P\1e\00\00C\80\00\00Q\1e\00\00\a3\80\00\00R\1e\00\00\03\81\00\00S\1e\00\00c\81\00\00T\1e\00\00\c2\81\00\00U\1e\00\00\02\82\00\00V\1e\00\00B\82\00\00W\1e\00\00\82\82\00\00X\1e\00\00\c2\82\00\00Y\1e\00\00\02\83\00\00Z\1e\00\00B\83\00\00[\1e\00\00\82\83\00\00\\\1e\00\00\c3\83\00\00]\1e\00\00#\84\00\00^\1e\00\00\82\84\00\00_\1e\00\00\c2\84\00\00`\1e\00\00\02\85\00\00a\1e\00\00B\85\00\00b\1e\00\00\82\85\00\00c\1e\00\00\c2\85\00\00d\1e\00\00\03\86\00\00e\1e\00\00c\86\00\00f\1e\00\00\c3\86\00\00g\1e\00\00#\87\00\00h\1e\00\00\83\87\00\00i\1e\00\00\e3\87\00\00j\1e\00\00B\88\00\00k\1e\00\00\82\88\00\00l\1e\00\00\c2\88\00\00m\1e\00\00\02\89\00\00n\1e\00\00B\89\00\00o\1e\00\00\82\89\00\00p\1e\00\00\c2\89\00\00q\1e\00\00\02\8a\00\00r\1e\00\00B\8a\00\00s\1e\00\00\82\8a\00\00t\1e\00\00\c2\8a\00\00u\1e\00\00\02\8b\00\00v\1e\00\00B\8b\00\00w\1e\00\00\82\8b\00\00x\1e\00\00\c3\8b\00\00y\1e\00\00#\8c\00\00z\1e\00\00\83\8c\00\00{\1e\00\00\e3\8c\00\00|\1e\00\00B\8d\00\00}\1e\00\00\82\8d\00\00~\1e\00\00\c2\8d\00\00\7f\1e\00\00\02\8e\00\00\80\1e\00\00B\8e\00\00\81\1e\00\00\82\8e\00\00\82\1e\00\00\c2\8e\00\00\83\1e\00\00\02\8f\00\00\84\1e\00\00B\8f\00\00\85\1e\00\00\82\8f\00\00\86\1e\00\00\c2\8f\00\00\87\1e\00\00\02\90\00\00\88\1e\00\00B\90\00\00\89\1e\00\00\82\90\00\00\8a\1e\00\00\c2\90\00\00\8b\1e\00\00\02\91\00\00\8c\1e\00\00B\91\00\00\8d\1e\00\00\82\91\00\00\8e\1e\00\00\c2\91\00\00\8f\1e\00\00\02\92\00\00\90\1e\00\00B\92\00\00\91\1e\00\00\82\92\00\00\92\1e\00\00\c2\92\00\00\93\1e\00\00\02\93\00\00\94\1e\00\00B\93\00\00\95\1e\00\00\82\93\00\00\96\1e\00\00\c2\93\00\00\97\1e\00\00\02\94\00\00\98\1e\00\00B\94\00\00\99\1e\00\00\82\94\00\00\9b\1e\00\00\c2\94\00\00\a0\1e\00\00\02\95\00\00\a1\1e\00\00B\95\00\00\a2\1e\00\00\82\95\00\00\a3\1e\00\00\c2\95\00\00\a4\1e\00\00\03\96\00\00\a5\1e\00\00c\96\00\00\a6\1e\00\00\c3\96\00\00\a7\1e\00\00#\97\00\00\a8\1e\00\00\83\97\00\00\a9\1e\00\00\e3\97\00\00\aa\1e\00\00C\98\00\00\ab\1e\00\00\a3\98\00\00\ac\1e\00\00\03\99\00\00\ad\1e\00\00c\99\00\00\ae\1e\00\00\c3\99\00\00\af\1e\00\00#\9a\00\00\b0\1e\00\00\83\9a\00\00\b1\1e\00\00\e3\9a\00\00\b2\1e\00\00C\9b\00\00\b3\1e\00\00\a3\9b\00\00\b4\1e\00\00\03\9c\00\00\b5\1e\00\00c\9c\00\00\b6\1e\00\00\c3\9c\00\00\b7\1e\00\00#\9d\00\00\b8\1e\00\00\82\9d\00\00\b9\1e\00\00\c2\9d\00\00\ba\1e\00\00\02\9e\00\00\bb\1e\00\00B\9e\00\00\bc\1e\00\00\82\9e\00\00\bd\1e\00\00\c2\9e\00\00\be\1e\00\00\03\9f\00\00\bf\1e\00\00c\9f\00\00\c0\1e\00\00\c3\9f\00\00\c1\1e\00\00#\a0\00\00\c2\1e\00\00\83\a0\00\00\c3\1e\00\00\e3\a0\00\00\c4\1e\00\00C\a1\00\00\c5\1e\00\00\a3\a1\00\00\c6\1e\00\00\03\a2\00\00\c7\1e\00\00c\a2\00\00\c8\1e\00\00\c2\a2\00\00\c9\1e\00\00\02\a3\00\00\ca\1e\00\00B\a3\00\00\cb\1e\00\00\82\a3\00\00\cc\1e\00\00\c2\a3\00\00\cd\1e\00\00\02\a4\00\00\ce\1e\00\00B\a4\00\00\cf\1e\00\00\82\a4\00\00\d0\1e\00\00\c3\a4\00\00\d1\1e\00\00#\a5\00\00\d2\1e\00\00\83\a5\00\00\d3\1e\00\00\e3\a5\00\00\d4\1e\00\00C\a6\00\00\d5\1e\00\00\a3\a6\00\00\d6\1e\00\00\03\a7\00\00\d7\1e\00\00c\a7\00\00\d8\1e\00\00\c3\a7\00\00\d9\1e\00\00#\a8\00\00\da\1e\00\00\83\a8\00\00\db\1e\00\00\e3\a8\00\00\dc\1e\00\00C\a9\00\00\dd\1e\00\00\a3\a9\00\00\de\1e\00\00\03\aa\00\00\df\1e\00\00c\aa\00\00\e0\1e\00\00\c3\aa\00\00\e1\1e\00\00#\ab\00\00\e2\1e\00\00\83\ab\00\00\e3\1e\00\00\e3\ab\00\00\e4\1e\00\00B\ac\00\00\e5\1e\00\00\82\ac\00\00\e6\1e\00\00\c2\ac\00\00\e7\1e\00\00\02\ad\00\00\e8\1e\00\00C\ad\00\00\e9\1e\00\00\a3\ad\00\00\ea\1e\00\00\03\ae\00\00\eb\1e\00\00c\ae\00\00\ec\1e\00\00\c3\ae\00\00\ed\1e\00\00#\af\00\00\ee\1e\00\00\83\af\00\00\ef\1e\00\00\e3\af\00\00\f0\1e\00\00C\b0\00\00\f1\1e\00\00\a3\b0\00\00\f2\1e\00\00\02\b1\00\00\f3\1e\00\00B\b1\00\00\f4\1e\00\00\82\b1\00\00\f5\1e\00\00\c2\b1\00\00\f6\1e\00\00\02\b2\00\00\f7\1e\00\00B\b2\00\00\f8\1e\00\00\82\b2\00\00\f9\1e\00\00\c2\b2\00\00\00\1f\00\00\02\b3\00\00\01\1f\00\00B\b3\00\00\02\1f\00\00\83\b3\00\00\03\1f\00\00\e3\b3\00\00\04\1f\00\00C\b4\00\00\05\1f\00\00\a3\b4\00\00\06\1f\00\00\03\b5\00\00\07\1f\00\00c\b5\00\00\08\1f\00\00\c2\b5\00\00\t\1f\00\00\02\b6\00\00\n\1f\00\00C\b6\00\00\0b\1f\00\00\a3\b6\00\00\0c\1f\00\00\03\b7\00\00\0d\1f\00\00c\b7\00\00\0e\1f\00\00\c3\b7\00\00\0f\1f\00\00#\b8\00\00\10\1f\00\00\82\b8\00\00\11\1f\00\00\c2\b8\00\00\12\1f\00\00\03\b9\00\00\13\1f\00\00c\b9\00\00\14\1f\00\00\c3\b9\00\00\15\1f\00\00#\ba\00\00\18\1f\00\00\82\ba\00\00\19\1f\00\00\c2\ba\00\00\1a\1f\00\00\03\bb\00\00\1b\1f\00\00c\bb\00\00\1c\1f\00\00\c3\bb\00\00\1d\1f\00\00#\bc\00\00 \1f\00\00\82\bc\00\00!\1f\00\00\c2\bc\00\00\"\1f\00\00\03\bd\00\00#\1f\00\00c\bd\00\00$\1f\00\00\c3\bd\00\00%\1f\00\00#\be\00\00&\1f\00\00\83\be\00\00\'\1f\00\00\e3\be\00\00(\1f\00\00B\bf\00\00)\1f\00\00\82\bf\00\00*\1f\00\00\c3\bf\00\00+\1f\00\00#\c0\00\00,\1f\00\00\83\c0\00\00-\1f\00\00\e3\c0\00\00.\1f\00\00C\c1\00\00/\1f\00\00\a3\c1\00\000\1f\00\00\02\c2\00\001\1f\00\00B\c2\00\002\1f\00\00\83\c2\00\003\1f\00\00\e3\c2\00\004\1f\00\00C\c3\00\005\1f\00\00\a3\c3\00\006\1f\00\00\03\c4\00\007\1f\00\00c\c4\00\008\1f\00\00\c2\c4\00\009\1f\00\00\02\c5\00\00:\1f\00\00C\c5\00\00;\1f\00\00\a3\c5\00\00<\1f\00\00\03\c6\00\00=\1f\00\00c\c6\00\00>\1f\00\00\c3\c6\00\00?\1f\00\00#\c7\00\00@\1f\00\00\82\c7\00\00A\1f\00\00\c2\c7\00\00B\1f\00\00\03\c8\00\00C\1f\00\00c\c8\00\00D\1f\00\00\c3\c8\00\00E\1f\00\00#\c9\00\00H\1f\00\00\82\c9\00\00I\1f\00\00\c2\c9\00\00J\1f\00\00\03\ca\00\00K\1f\00\00c\ca\00\00L\1f\00\00\c3\ca\00\00M\1f\00\00#\cb\00\00P\1f\00\00\82\cb\00\00Q\1f\00\00\c2\cb\00\00R\1f\00\00\03\cc\00\00S\1f\00\00c\cc\00\00T\1f\00\00\c3\cc\00\00U\1f\00\00#\cd\00\00V\1f\00\00\83\cd\00\00W\1f\00\00\e3\cd\00\00Y\1f\00\00B\ce\00\00[\1f\00\00\83\ce\00\00]\1f\00\00\e3\ce\00\00_\1f\00\00C\cf\00\00`\1f\00\00\a2\cf\00\00a\1f\00\00\e2\cf\00\00b\1f\00\00#\d0\00\00c\1f\00\00\83\d0\00\00d\1f\00\00\e3\d0\00\00e\1f\00\00C\d1\00\00f\1f\00\00\a3\d1\00\00g\1f\00\00\03\d2\00\00h\1f\00\00b\d2\00\00i\1f\00\00\a2\d2\00\00j\1f\00\00\e3\d2\00\00k\1f\00\00C\d3\00\00l\1f\00\00\a3\d3\00\00m\1f\00\00\03\d4\00\00n\1f\00\00c\d4\00\00o\1f\00\00\c3\d4\00\00p\1f\00\00\"\d5\00\00q\1f\00\00b\d5\00\00r\1f\00\00\a2\d5\00\00s\1f\00\00\e2\d5\00\00t\1f\00\00\"\d6\00\00u\1f\00\00b\d6\00\00v\1f\00\00\a2\d6\00\00w\1f\00\00\e2\d6\00\00x\1f\00\00\"\d7\00\00y\1f\00\00b\d7\00\00z\1f\00\00\a2\d7\00\00{\1f\00\00\e2\d7\00\00|\1f\00\00\"\d8\00\00}\1f\00\00b\d8\00\00\80\1f\00\00\a3\d8\00\00\81\1f\00\00\03\d9\00\00\82\1f\00\00d\d9\00\00\83\1f\00\00\e4\d9\00\00\84\1f\00\00d\da\00\00\85\1f\00\00\e4\da\00\00\86\1f\00\00d\db\00\00\87\1f\00\00\e4\db\00\00\88\1f\00\00c\dc\00\00\89\1f\00\00\c3\dc\00\00\8a\1f\00\00$\dd\00\00\8b\1f\00\00\a4\dd\00\00\8c\1f\00\00$\de\00\00\8d\1f\00\00\a4\de\00\00\8e\1f\00\00$\df\00\00\8f\1f\00\00\a4\df\00\00\90\1f\00\00#\e0\00\00\91\1f\00\00\83\e0\00\00\92\1f\00\00\e4\e0\00\00\93\1f\00\00d\e1\00\00\94\1f\00\00\e4\e1\00\00\95\1f\00\00d\e2\00\00\96\1f\00\00\e4\e2\00\00\97\1f\00\00d\e3\00\00\98\1f\00\00\e3\e3\00\00\99\1f\00\00C\e4\00\00\9a\1f\00\00\a4\e4\00\00\9b\1f\00\00$\e5\00\00\9c\1f\00\00\a4\e5\00\00\9d\1f\00\00$\e6\00\00\9e\1f\00\00\a4\e6\00\00\9f\1f\00\00$\e7\00\00\a0\1f\00\00\a3\e7\00\00\a1\1f\00\00\03\e8\00\00\a2\1f\00\00d\e8\00\00\a3\1f\00\00\e4\e8\00\00\a4\1f\00\00d\e9\00\00\a5\1f\00\00\e4\e9\00\00\a6\1f\00\00d\ea\00\00\a7\1f\00\00\e4\ea\00\00\a8\1f\00\00c\eb\00\00\a9\1f\00\00\c3\eb\00\00\aa\1f\00\00$\ec\00\00\ab\1f\00\00\a4\ec\00\00\ac\1f\00\00$\ed\00\00\ad\1f\00\00\a4\ed\00\00\ae\1f\00\00$\ee\00\00\af\1f\00\00\a4\ee\00\00\b0\1f\00\00\"\ef\00\00\b1\1f\00\00b\ef\00\00\b2\1f\00\00\a3\ef\00\00\b3\1f\00\00\02\f0\00\00\b4\1f\00\00C\f0\00\00\b6\1f\00\00\a2\f0\00\00\b7\1f\00\00\e3\f0\00\00\b8\1f\00\00B\f1\00\00\b9\1f\00\00\82\f1\00\00\ba\1f\00\00\c2\f1\00\00\bb\1f\00\00\02\f2\00\00\bc\1f\00\00B\f2\00\00\be\1f\00\00\81\f2\00\00\c1\1f\00\00\a2\f2\00\00\c2\1f\00\00\e3\f2\00\00\c3\1f\00\00B\f3\00\00\c4\1f\00\00\83\f3\00\00\c6\1f\00\00\e2\f3\00\00\c7\1f\00\00#\f4\00\00\c8\1f\00\00\82\f4\00\00\c9\1f\00\00\c2\f4\00\00\ca\1f\00\00\02\f5\00\00\cb\1f\00\00B\f5\00\00\cc\1f\00\00\82\f5\00\00\cd\1f\00\00\c2\f5\00\00\ce\1f\00\00\02\f6\00\00\cf\1f\00\00B\f6\00\00\d0\1f\00\00\82\f6\00\00\d1\1f\00\00\c2\f6\00\00\d2\1f\00\00\03\f7\00\00\d3\1f\00\00c\f7\00\00\d6\1f\00\00\c2\f7\00\00\d7\1f\00\00\03\f8\00\00\d8\1f\00\00b\f8\00\00\d9\1f\00\00\a2\f8\00\00\da\1f\00\00\e2\f8\00\00\db\1f\00\00\"\f9\00\00\dd\1f\00\00b\f9\00\00\de\1f\00\00\a2\f9\00\00\df\1f\00\00\e2\f9\00\00\e0\1f\00\00\"\fa\00\00\e1\1f\00\00b\fa\00\00\e2\1f\00\00\a3\fa\00\00\e3\1f\00\00\03\fb\00\00\e4\1f\00\00b\fb\00\00\e5\1f\00\00\a2\fb\00\00\e6\1f\00\00\e2\fb\00\00\e7\1f\00\00#\fc\00\00\e8\1f\00\00\82\fc\00\00\e9\1f\00\00\c2\fc\00\00\ea\1f\00\00\02\fd\00\00\eb\1f\00\00B\fd\00\00\ec\1f\00\00\82\fd\00\00\ed\1f\00\00\c2\fd\00\00\ee\1f\00\00\02\fe\00\00\ef\1f\00\00A\fe\00\00\f2\1f\00\00c\fe\00\00\f3\1f\00\00\c2\fe\00\00\f4\1f\00\00\03\ff\00\00\f6\1f\00\00b\ff\00\00\f7\1f\00\00\a3\ff\00\00\f8\1f\00\00\02\00\01\00\f9\1f\00\00B\00\01\00\fa\1f\00\00\82\00\01\00\fb\1f\00\00\c2\00\01\00\fc\1f\00\00\02\01\01\00\fd\1f\00\00A\01\01\00\00 \00\00a\01\01\00\01 \00\00\81\01\01\00&!\00\00\a1\01\01\00*!\00\00\c1\01\01\00+!\00\00\e2\01\01\00\9a!\00\00\"\02\01\00\9b!\00\00b\02\01\00\ae!\00\00\a2\02\01\00\cd!\00\00\e2\02\01\00\ce!\00\00\"\03\01\00\cf!\00\00b\03\01\00\04\"\00\00\a2\03\01\00\t\"\00\00\e2\03\01\00\0c\"\00\00\"\04\01\00$\"\00\00b\04\01\00&\"\00\00\a2\04\01\00A\"\00\00\e2\04\01\00D\"\00\00\"\05\01\00G\"\00\00b\05\01\00I\"\00\00\a2\05\01\00`\"\00\00\e2\05\01\00b\"\00\00\"\06\01\00m\"\00\00b\06\01\00n\"\00\00\a2\06\01\00o\"\00\00\e2\06\01\00p\"\00\00\"\07\01\00q\"\00\00b\07\01\00t\"\00\00\a2\07\01\00u\"\00\00\e2\07\01\00x\"\00\00\"\08\01\00y\"\00\00b\08\01\00\80\"\00\00\a2\08\01\00\81\"\00\00\e2\08\01\00\84\"\00\00\"\t\01\00\85\"\00\00b\t\01\00\88\"\00\00\a2\t\01\00\89\"\00\00\e2\t\01\00\ac\"\00\00\"\n\01\00\ad\"\00\00b\n\01\00\ae\"\00\00\a2\n\01\00\af\"\00\00\e2\n\01\00\e0\"\00\00\"\0b\01\00\e1\"\00\00b\0b\01\00\e2\"\00\00\a2\0b\01\00\e3\"\00\00\e2\0b\01\00\ea\"\00\00\"\0c\01\00\eb\"\00\00b\0c\01\00\ec\"\00\00\a2\0c\01\00\ed\"\00\00\e2\0c\01\00)#\00\00!\0d\01\00*#\00\00A\0d\01\00\dc*\00\00b\0d\01\00L0\00\00\a2\0d\01\00N0\00\00\e2\0d\01\00P0\00\00\"\0e\01\00R0\00\00b\0e\01\00T0\00\00\a2\0e\01\00V0\00\00\e2\0e\01\00X0\00\00\"\0f\01\00Z0\00\00b\0f\01\00\\0\00\00\a2\0f\01\00^0\00\00\e2\0f\01\00`0\00\00\"\10\01\00b0\00\00b\10\01\00e0\00\00\a2\10\01\00g0\00\00\e2\10\01\00i0\00\00\"\11\01\00p0\00\00b\11\01\00q0\00\00\a2\11\01\00s0\00\00\e2\11\01\00t0\00\00\"\12\01\00v0\00\00b\12\01\00w0\00\00\a2\12\01\00y0\00\00\e2\12\01\00z0\00\00\"\13\01\00|0\00\00b\13\01\00}0\00\00\a2\13\01\00\940\00\00\e2\13\01\00\9e0\00\00\"\14\01\00\ac0\00\00b\14\01\00\ae0\00\00\a2\14\01\00\b00\00\00\e2\14\01\00\b20\00\00\"\15\01\00\b40\00\00b\15\01\00\b60\00\00\a2\15\01\00\b80\00\00\e2\15\01\00\ba0\00\00\"\16\01\00\bc0\00\00b\16\01\00\be0\00\00\a2\16\01\00\c00\00\00\e2\16\01\00\c20\00\00\"\17\01\00\c50\00\00b\17\01\00\c70\00\00\a2\17\01\00\c90\00\00\e2\17\01\00\d00\00\00\"\18\01\00\d10\00\00b\18\01\00\d30\00\00\a2\18\01\00\d40\00\00\e2\18\01\00\d60\00\00\"\19\01\00\d70\00\00b\19\01\00\d90\00\00\a2\19\01\00\da0\00\00\e2\19\01\00\dc0\00\00\"\1a\01\00\dd0\00\00b\1a\01\00\f40\00\00\a2\1a\01\00\f70\00\00\e2\1a\01\00\f80\00\00\"\1b\01\00\f90\00\00b\1b\01\00\fa0\00\00\a2\1b\01\00\fe0\00\00\e2\1b\01\00\00\f9\00\00!\1c\01\00\01\f9\00\00A\1c\01\00\02\f9\00\00a\1c\01\00\03\f9\00\00\81\1c\01\00\04\f9\00\00\a1\1c\01\00\05\f9\00\00\c1\1c\01\00\06\f9\00\00\e1\1c\01\00\07\f9\00\00\01\1d\01\00\08\f9\00\00!\1d\01\00\t\f9\00\00A\1d\01\00\n\f9\00\00a\1d\01\00\0b\f9\00\00\81\1d\01\00\0c\f9\00\00\a1\1d\01\00\0d\f9\00\00\c1\1d\01\00\0e\f9\00\00\e1\1d\01\00\0f\f9\00\00\01\1e\01\00\10\f9\00\00!\1e\01\00\11\f9\00\00A\1e\01\00\12\f9\00\00a\1e\01\00\13\f9\00\00\81\1e\01\00\14\f9\00\00\a1\1e\01\00\15\f9\00\00\c1\1e\01\00\16\f9\00\00\e1\1e\01\00\17\f9\00\00\01\1f\01\00\18\f9\00\00!\1f\01\00\19\f9\00\00A\1f\01\00\1a\f9\00\00a\1f\01\00\1b\f9\00\00\81\1f\01\00\1c\f9\00\00\a1\1f\01\00\1d\f9\00\00\c1\1f\01\00\1e\f9\00\00\e1\1f\01\00\1f\f9\00\00\01 \01\00 \f9\00\00! \01\00!\f9\00\00A \01\00\"\f9\00\00a \01\00#\f9\00\00\81 \01\00$\f9\00\00\a1 \01\00%\f9\00\00\c1 \01\00&\f9\00\00\e1 \01\00\'\f9\00\00\01!\01\00(\f9\00\00!!\01\00)\f9\00\00A!\01\00*\f9\00\00a!\01\00+\f9\00\00\81!\01\00,\f9\00\00\a1!\01\00-\f9\00\00\c1!\01\00.\f9\00\00\e1!\01\00/\f9\00\00\01\"\01\000\f9\00\00!\"\01\001\f9\00\00A\"\01\002\f9\00\00a\"\01\003\f9\00\00\81\"\01\004\f9\00\00\a1\"\01\005\f9\00\00\c1\"\01\006\f9\00\00\e1\"\01\007\f9\00\00\01#\01\008\f9\00\00!#\01\009\f9\00\00A#\01\00:\f9\00\00a#\01\00;\f9\00\00\81#\01\00<\f9\00\00\a1#\01\00=\f9\00\00\c1#\01\00>\f9\00\00\e1#\01\00?\f9\00\00\01$\01\00@\f9\00\00!$\01\00A\f9\00\00A$\01\00B\f9\00\00a$\01\00C\f9\00\00\81$\01\00D\f9\00\00\a1$\01\00E\f9\00\00\c1$\01\00F\f9\00\00\e1$\01\00G\f9\00\00\01%\01\00H\f9\00\00!%\01\00I\f9\00\00A%\01\00J\f9\00\00a%\01\00K\f9\00\00\81%\01\00L\f9\00\00\a1%\01\00M\f9\00\00\c1%\01\00N\f9\00\00\e1%\01\00O\f9\00\00\01&\01\00P\f9\00\00!&\01\00Q\f9\00\00A&\01\00R\f9\00\00a&\01\00S\f9\00\00\81&\01\00T\f9\00\00\a1&\01\00U\f9\00\00\c1&\01\00V\f9\00\00\e1&\01\00W\f9\00\00\01\'\01\00X\f9\00\00!\'\01\00Y\f9\00\00A\'\01\00Z\f9\00\00a\'\01\00[\f9\00\00\81\'\01\00\\\f9\00\00\a1\'\01\00]\f9\00\00\c1\'\01\00^\f9\00\00\e1\'\01\00_\f9\00\00\01(\01\00`\f9\00\00!(\01\00a\f9\00\00A(\01\00b\f9\00\00a(\01\00c\f9\00\00\81(\01\00d\f9\00\00\a1(\01\00e\f9\00\00\c1(\01\00f\f9\00\00\e1(\01\00g\f9\00\00\01)\01\00h\f9\00\00!)\01\00i\f9\00\00A)\01\00j\f9\00\00a)\01\00k\f9\00\00\81)\01\00l\f9\00\00\a1)\01\00m\f9\00\00\c1)\01\00n\f9\00\00\e1)\01\00o\f9\00\00\01*\01\00p\f9\00\00!*\01\00q\f9\00\00A*\01\00r\f9\00\00a*\01\00s\f9\00\00\81*\01\00t\f9\00\00\a1*\01\00u\f9\00\00\c1*\01\00v\f9\00\00\e1*\01\00w\f9\00\00\01+\01\00x\f9\00\00!+\01\00y\f9\00\00A+\01\00z\f9\00\00a+\01\00{\f9\00\00\81+\01\00|\f9\00\00\a1+\01\00}\f9\00\00\c1+\01\00~\f9\00\00\e1+\01\00\7f\f9\00\00\01,\01\00\80\f9\00\00!,\01\00\81\f9\00\00A,\01\00\82\f9\00\00a,\01\00\83\f9\00\00\81,\01\00\84\f9\00\00\a1,\01\00\85\f9\00\00\c1,\01\00\86\f9\00\00\e1,\01\00\87\f9\00\00\01-\01\00\88\f9\00\00!-\01\00\89\f9\00\00A-\01\00\8a\f9\00\00a-\01\00\8b\f9\00\00\81-\01\00\8c\f9\00\00\a1-\01\00\8d\f9\00\00\c1-\01\00\8e\f9\00\00\e1-\01\00\8f\f9\00\00\01.\01\00\90\f9\00\00!.\01\00\91\f9\00\00A.\01\00\92\f9\00\00a.\01\00\93\f9\00\00\81.\01\00\94\f9\00\00\a1.\01\00\95\f9\00\00\c1.\01\00\96\f9\00\00\e1.\01\00\97\f9\00\00\01/\01\00\98\f9\00\00!/\01\00\99\f9\00\00A/\01\00\9a\f9\00\00a/\01\00\9b\f9\00\00\81/\01\00\9c\f9\00\00\a1/\01\00\9d\f9\00\00\c1/\01\00\9e\f9\00\00\e1/\01\00\9f\f9\00\00\010\01\00\a0\f9\00\00!0\01\00\a1\f9\00\00A0\01\00\a2\f9\00\00a0\01\00\a3\f9\00\00\810\01\00\a4\f9\00\00\a10\01\00\a5\f9\00\00\c10\01\00\a6\f9\00\00\e10\01\00\a7\f9\00\00\011\01\00\a8\f9\00\00!1\01\00\a9\f9\00\00A1\01\00\aa\f9\00\00a1\01\00\ab\f9\00\00\811\01\00\ac\f9\00\00\a11\01\00\ad\f9\00\00\c11\01\00\ae\f9\00\00\e11\01\00\af\f9\00\00\012\01\00\b0\f9\00\00!2\01\00\b1\f9\00\00A2\01\00\b2\f9\00\00a2\01\00\b3\f9\00\00\812\01\00\b4\f9\00\00\a12\01\00\b5\f9\00\00\c12\01\00\b6\f9\00\00\e12\01\00\b7\f9\00\00\013\01\00\b8\f9\00\00!3\01\00\b9\f9\00\00A3\01\00\ba\f9\00\00a3\01\00\bb\f9\00\00\813\01\00\bc\f9\00\00\a13\01\00\bd\f9\00\00\c13\01\00\be\f9\00\00\e13\01\00\bf\f9\00\00\014\01\00\c0\f9\00\00!4\01\00\c1\f9\00\00A4\01\00\c2\f9\00\00a4\01\00\c3\f9\00\00\814\01\00\c4\f9\00\00\a14\01\00\c5\f9\00\00\c14\01\00\c6\f9\00\00\e14\01\00\c7\f9\00\00\015\01\00\c8\f9\00\00!5\01\00\c9\f9\00\00A5\01\00\ca\f9\00\00a5\01\00\cb\f9\00\00\815\01\00\cc\f9\00\00\a15\01\00\cd\f9\00\00\c15\01\00\ce\f9\00\00\e15\01\00\cf\f9\00\00\016\01\00\d0\f9\00\00!6\01\00\d1\f9\00\00A6\01\00\d2\f9\00\00a6\01\00\d3\f9\00\00\816\01\00\d4\f9\00\00\a16\01\00\d5\f9\00\00\c16\01\00\d6\f9\00\00\e16\01\00\d7\f9\00\00\017\01\00\d8\f9\00\00!7\01\00\d9\f9\00\00A7\01\00\da\f9\00\00a7\01\00\db\f9\00\00\817\01\00\dc\f9\00\00\a17\01\00\dd\f9\00\00\c17\01\00\de\f9\00\00\e17\01\00\df\f9\00\00\018\01\00\e0\f9\00\00!8\01\00\e1\f9\00\00A8\01\00\e2\f9\00\00a8\01\00\e3\f9\00\00\818\01\00\e4\f9\00\00\a18\01\00\e5\f9\00\00\c18\01\00\e6\f9\00\00\e18\01\00\e7\f9\00\00\019\01\00\e8\f9\00\00!9\01\00\e9\f9\00\00A9\01\00\ea\f9\00\00a9\01\00\eb\f9\00\00\819\01\00\ec\f9\00\00\a19\01\00\ed\f9\00\00\c19\01\00\ee\f9\00\00\e19\01\00\ef\f9\00\00\01:\01\00\f0\f9\00\00!:\01\00\f1\f9\00\00A:\01\00\f2\f9\00\00a:\01\00\f3\f9\00\00\81:\01\00\f4\f9\00\00\a1:\01\00\f5\f9\00\00\c1:\01\00\f6\f9\00\00\e1:\01\00\f7\f9\00\00\01;\01\00\f8\f9\00\00!;\01\00\f9\f9\00\00A;\01\00\fa\f9\00\00a;\01\00\fb\f9\00\00\81;\01\00\fc\f9\00\00\a1;\01\00\fd\f9\00\00\c1;\01\00\fe\f9\00\00\e1;\01\00\ff\f9\00\00\01<\01\00\00\fa\00\00!<\01\00\01\fa\00\00A<\01\00\02\fa\00\00a<\01\00\03\fa\00\00\81<\01\00\04\fa\00\00\a1<\01\00\05\fa\00\00\c1<\01\00\06\fa\00\00\e1<\01\00\07\fa\00\00\01=\01\00\08\fa\00\00!=\01\00\t\fa\00\00A=\01\00\n\fa\00\00a=\01\00\0b\fa\00\00\81=\01\00\0c\fa\00\00\a1=\01\00\0d\fa\00\00\c1=\01\00\10\fa\00\00\e1=\01\00\12\fa\00\00\01>\01\00\15\fa\00\00!>\01\00\16\fa\00\00A>\01\00\17\fa\00\00a>\01\00\18\fa\00\00\81>\01\00\19\fa\00\00\a1>\01\00\1a\fa\00\00\c1>\01\00\1b\fa\00\00\e1>\01\00\1c\fa\00\00\01?\01\00\1d\fa\00\00!?\01\00\1e\fa\00\00A?\01\00 \fa\00\00a?\01\00\"\fa\00\00\81?\01\00%\fa\00\00\a1?\01\00&\fa\00\00\c1?\01\00*\fa\00\00\e1?\01\00+\fa\00\00\01@\01\00,\fa\00\00!@\01\00-\fa\00\00A@\01\00.\fa\00\00a@\01\00/\fa\00\00\81@\01\000\fa\00\00\a1@\01\001\fa\00\00\c1@\01\002\fa\00\00\e1@\01\003\fa\00\00\01A\01\004\fa\00\00!A\01\005\fa\00\00AA\01\006\fa\00\00aA\01\007\fa\00\00\81A\01\008\fa\00\00\a1A\01\009\fa\00\00\c1A\01\00:\fa\00\00\e1A\01\00;\fa\00\00\01B\01\00<\fa\00\00!B\01\00=\fa\00\00AB\01\00>\fa\00\00aB\01\00?\fa\00\00\81B\01\00@\fa\00\00\a1B\01\00A\fa\00\00\c1B\01\00B\fa\00\00\e1B\01\00C\fa\00\00\01C\01\00D\fa\00\00!C\01\00E\fa\00\00AC\01\00F\fa\00\00aC\01\00G\fa\00\00\81C\01\00H\fa\00\00\a1C\01\00I\fa\00\00\c1C\01\00J\fa\00\00\e1C\01\00K\fa\00\00\01D\01\00L\fa\00\00!D\01\00M\fa\00\00AD\01\00N\fa\00\00aD\01\00O\fa\00\00\81D\01\00P\fa\00\00\a1D\01\00Q\fa\00\00\c1D\01\00R\fa\00\00\e1D\01\00S\fa\00\00\01E\01\00T\fa\00\00!E\01\00U\fa\00\00AE\01\00V\fa\00\00aE\01\00W\fa\00\00\81E\01\00X\fa\00\00\a1E\01\00Y\fa\00\00\c1E\01\00Z\fa\00\00\e1E\01\00[\fa\00\00\01F\01\00\\\fa\00\00!F\01\00]\fa\00\00AF\01\00^\fa\00\00aF\01\00_\fa\00\00\81F\01\00`\fa\00\00\a1F\01\00a\fa\00\00\c1F\01\00b\fa\00\00\e1F\01\00c\fa\00\00\01G\01\00d\fa\00\00!G\01\00e\fa\00\00AG\01\00f\fa\00\00aG\01\00g\fa\00\00\81G\01\00h\fa\00\00\a1G\01\00i\fa\00\00\c1G\01\00j\fa\00\00\e1G\01\00k\fa\00\00\01H\01\00l\fa\00\00\"H\01\00m\fa\00\00aH\01\00p\fa\00\00\81H\01\00q\fa\00\00\a1H\01\00r\fa\00\00\c1H\01\00s\fa\00\00\e1H\01\00t\fa\00\00\01I\01\00u\fa\00\00!I\01\00v\fa\00\00AI\01\00w\fa\00\00aI\01\00x\fa\00\00\81I\01\00y\fa\00\00\a1I\01\00z\fa\00\00\c1I\01\00{\fa\00\00\e1I\01\00|\fa\00\00\01J\01\00}\fa\00\00!J\01\00~\fa\00\00AJ\01\00\7f\fa\00\00aJ\01\00\80\fa\00\00\81J\01\00\81\fa\00\00\a1J\01\00\82\fa\00\00\c1J\01\00\83\fa\00\00\e1J\01\00\84\fa\00\00\01K\01\00\85\fa\00\00!K\01\00\86\fa\00\00AK\01\00\87\fa\00\00aK\01\00\88\fa\00\00\81K\01\00\89\fa\00\00\a1K\01\00\8a\fa\00\00\c1K\01\00\8b\fa\00\00\e1K\01\00\8c\fa\00\00\01L\01\00\8d\fa\00\00!L\01\00\8e\fa\00\00AL\01\00\8f\fa\00\00aL\01\00\90\fa\00\00\81L\01\00\91\fa\00\00\a1L\01\00\92\fa\00\00\c1L\01\00\93\fa\00\00\e1L\01\00\94\fa\00\00\01M\01\00\95\fa\00\00!M\01\00\96\fa\00\00AM\01\00\97\fa\00\00aM\01\00\98\fa\00\00\81M\01\00\99\fa\00\00\a1M\01\00\9a\fa\00\00\c1M\01\00\9b\fa\00\00\e1M\01\00\9c\fa\00\00\01N\01\00\9d\fa\00\00!N\01\00\9e\fa\00\00AN\01\00\9f\fa\00\00aN\01\00\a0\fa\00\00\81N\01\00\a1\fa\00\00\a1N\01\00\a2\fa\00\00\c1N\01\00\a3\fa\00\00\e1N\01\00\a4\fa\00\00\01O\01\00\a5\fa\00\00!O\01\00\a6\fa\00\00AO\01\00\a7\fa\00\00aO\01\00\a8\fa\00\00\81O\01\00\a9\fa\00\00\a1O\01\00\aa\fa\00\00\c1O\01\00\ab\fa\00\00\e1O\01\00\ac\fa\00\00\01P\01\00\ad\fa\00\00!P\01\00\ae\fa\00\00AP\01\00\af\fa\00\00aP\01\00\b0\fa\00\00\81P\01\00\b1\fa\00\00\a1P\01\00\b2\fa\00\00\c1P\01\00\b3\fa\00\00\e1P\01\00\b4\fa\00\00\01Q\01\00\b5\fa\00\00!Q\01\00\b6\fa\00\00AQ\01\00\b7\fa\00\00aQ\01\00\b8\fa\00\00\81Q\01\00\b9\fa\00\00\a1Q\01\00\ba\fa\00\00\c1Q\01\00\bb\fa\00\00\e1Q\01\00\bc\fa\00\00\01R\01\00\bd\fa\00\00!R\01\00\be\fa\00\00AR\01\00\bf\fa\00\00aR\01\00\c0\fa\00\00\81R\01\00\c1\fa\00\00\a1R\01\00\c2\fa\00\00\c1R\01\00\c3\fa\00\00\e1R\01\00\c4\fa\00\00\01S\01\00\c5\fa\00\00!S\01\00\c6\fa\00\00AS\01\00\c7\fa\00\00aS\01\00\c8\fa\00\00\81S\01\00\c9\fa\00\00\a1S\01\00\ca\fa\00\00\c1S\01\00\cb\fa\00\00\e1S\01\00\cc\fa\00\00\01T\01\00\cd\fa\00\00!T\01\00\ce\fa\00\00AT\01\00\cf\fa\00\00bT\01\00\d0\fa\00\00\a2T\01\00\d1\fa\00\00\e2T\01\00\d2\fa\00\00!U\01\00\d3\fa\00\00AU\01\00\d4\fa\00\00aU\01\00\d5\fa\00\00\82U\01\00\d6\fa\00\00\c2U\01\00\d7\fa\00\00\02V\01\00\d8\fa\00\00AV\01\00\d9\fa\00\00aV\01\00\1d\fb\00\00\82V\01\00\1f\fb\00\00\c2V\01\00*\fb\00\00\02W\01\00+\fb\00\00BW\01\00,\fb\00\00\83W\01\00-\fb\00\00\e3W\01\00.\fb\00\00BX\01\00/\fb\00\00\82X\01\000\fb\00\00\c2X\01\001\fb\00\00\02Y\01\002\fb\00\00BY\01\003\fb\00\00\82Y\01\004\fb\00\00\c2Y\01\005\fb\00\00\02Z\01\006\fb\00\00BZ\01\008\fb\00\00\82Z\01\009\fb\00\00\c2Z\01\00:\fb\00\00\02[\01\00;\fb\00\00B[\01\00<\fb\00\00\82[\01\00>\fb\00\00\c2[\01\00@\fb\00\00\02\\\01\00A\fb\00\00B\\\01\00C\fb\00\00\82\\\01\00D\fb\00\00\c2\\\01\00F\fb\00\00\02]\01\00G\fb\00\00B]\01\00H\fb\00\00\82]\01\00I\fb\00\00\c2]\01\00J\fb\00\00\02^\01\00K\fb\00\00B^\01\00L\fb\00\00\82^\01\00M\fb\00\00\c2^\01\00N\fb\00\00\02_\01\00\c9\05\01\00C_\01\00\e4\05\01\00\a3_\01\00\9a\10\01\00\04`\01\00\9c\10\01\00\84`\01\00\ab\10\01\00\04a\01\00.\11\01\00\84a\01\00/\11\01\00\04b\01\00K\13\01\00\84b\01\00L\13\01\00\04c\01\00\83\13\01\00\84c\01\00\85\13\01\00\04d\01\00\8e\13\01\00\84d\01\00\91\13\01\00\04e\01\00\c5\13\01\00\84e\01\00\c7\13\01\00\04f\01\00\c8\13\01\00\84f\01\00\bb\14\01\00\04g\01\00\bc\14\01\00\84g\01\00\be\14\01\00\04h\01\00\ba\15\01\00\84h\01\00\bb\15\01\00\04i\01\008\19\01\00\84i\01\00!a\01\00\04j\01\00\"a\01\00\84j\01\00#a\01\00\04k\01\00$a\01\00\84k\01\00%a\01\00\04l\01\00&a\01\00\86l\01\00\'a\01\00Fm\01\00(a\01\00\06n\01\00hm\01\00\c4n\01\00im\01\00Do\01\00jm\01\00\c6o\01\00^\d1\01\00\84p\01\00_\d1\01\00\04q\01\00`\d1\01\00\86q\01\00a\d1\01\00Fr\01\00b\d1\01\00\06s\01\00c\d1\01\00\c6s\01\00d\d1\01\00\86t\01\00\bb\d1\01\00Du\01\00\bc\d1\01\00\c4u\01\00\bd\d1\01\00Fv\01\00\be\d1\01\00\06w\01\00\bf\d1\01\00\c6w\01\00\c0\d1\01\00\86x\01\00\00\f8\02\00Ay\01\00\01\f8\02\00ay\01\00\02\f8\02\00\81y\01\00\03\f8\02\00\a2y\01\00\04\f8\02\00\e1y\01\00\05\f8\02\00\01z\01\00\06\f8\02\00!z\01\00\07\f8\02\00Az\01\00\08\f8\02\00az\01\00\t\f8\02\00\81z\01\00\n\f8\02\00\a1z\01\00\0b\f8\02\00\c1z\01\00\0c\f8\02\00\e1z\01\00\0d\f8\02\00\02{\01\00\0e\f8\02\00A{\01\00\0f\f8\02\00a{\01\00\10\f8\02\00\81{\01\00\11\f8\02\00\a1{\01\00\12\f8\02\00\c2{\01\00\13\f8\02\00\01|\01\00\14\f8\02\00!|\01\00\15\f8\02\00A|\01\00\16\f8\02\00b|\01\00\17\f8\02\00\a1|\01\00\18\f8\02\00\c1|\01\00\19\f8\02\00\e1|\01\00\1a\f8\02\00\01}\01\00\1b\f8\02\00!}\01\00\1c\f8\02\00B}\01\00\1d\f8\02\00\81}\01\00\1e\f8\02\00\a1}\01\00\1f\f8\02\00\c1}\01\00 \f8\02\00\e1}\01\00!\f8\02\00\01~\01\00\"\f8\02\00!~\01\00#\f8\02\00A~\01\00$\f8\02\00a~\01\00%\f8\02\00\81~\01\00&\f8\02\00\a1~\01\00\'\f8\02\00\c1~\01\00(\f8\02\00\e1~\01\00)\f8\02\00\01\7f\01\00*\f8\02\00!\7f\01\00+\f8\02\00A\7f\01\00,\f8\02\00a\7f\01\00-\f8\02\00\81\7f\01\00.\f8\02\00\a1\7f\01\00/\f8\02\00\c1\7f\01\000\f8\02\00\e1\7f\01\001\f8\02\00\01\80\01\002\f8\02\00!\80\01\003\f8\02\00A\80\01\004\f8\02\00b\80\01\005\f8\02\00\a1\80\01\006\f8\02\00\c1\80\01\007\f8\02\00\e1\80\01\008\f8\02\00\02\81\01\009\f8\02\00A\81\01\00:\f8\02\00a\81\01\00;\f8\02\00\81\81\01\00<\f8\02\00\a1\81\01\00=\f8\02\00\c1\81\01\00>\f8\02\00\e1\81\01\00?\f8\02\00\01\82\01\00@\f8\02\00!\82\01\00A\f8\02\00A\82\01\00B\f8\02\00a\82\01\00C\f8\02\00\81\82\01\00D\f8\02\00\a1\82\01\00E\f8\02\00\c1\82\01\00F\f8\02\00\e1\82\01\00G\f8\02\00\01\83\01\00H\f8\02\00!\83\01\00I\f8\02\00A\83\01\00J\f8\02\00a\83\01\00K\f8\02\00\81\83\01\00L\f8\02\00\a1\83\01\00M\f8\02\00\c1\83\01\00N\f8\02\00\e1\83\01\00O\f8\02\00\01\84\01\00P\f8\02\00!\84\01\00Q\f8\02\00A\84\01\00R\f8\02\00a\84\01\00S\f8\02\00\81\84\01\00T\f8\02\00\a1\84\01\00U\f8\02\00\c1\84\01\00V\f8\02\00\e1\84\01\00W\f8\02\00\01\85\01\00X\f8\02\00!\85\01\00Y\f8\02\00B\85\01\00Z\f8\02\00\81\85\01\00[\f8\02\00\a1\85\01\00\\\f8\02\00\c1\85\01\00]\f8\02\00\e1\85\01\00^\f8\02\00\01\86\01\00_\f8\02\00!\86\01\00`\f8\02\00B\86\01\00a\f8\02\00\82\86\01\00b\f8\02\00\c1\86\01\00c\f8\02\00\e1\86\01\00d\f8\02\00\01\87\01\00e\f8\02\00!\87\01\00f\f8\02\00A\87\01\00g\f8\02\00a\87\01\00h\f8\02\00\81\87\01\00i\f8\02\00\a1\87\01\00j\f8\02\00\c1\87\01\00k\f8\02\00\e1\87\01\00l\f8\02\00\02\88\01\00m\f8\02\00A\88\01\00n\f8\02\00a\88\01\00o\f8\02\00\81\88\01\00p\f8\02\00\a1\88\01\00q\f8\02\00\c2\88\01\00r\f8\02\00\01\89\01\00s\f8\02\00!\89\01\00t\f8\02\00A\89\01\00u\f8\02\00a\89\01\00v\f8\02\00\81\89\01\00w\f8\02\00\a1\89\01\00x\f8\02\00\c1\89\01\00y\f8\02\00\e1\89\01\00z\f8\02\00\01\8a\01\00{\f8\02\00\"\8a\01\00|\f8\02\00a\8a\01\00}\f8\02\00\82\8a\01\00~\f8\02\00\c1\8a\01\00\7f\f8\02\00\e1\8a\01\00\80\f8\02\00\01\8b\01\00\81\f8\02\00!\8b\01\00\82\f8\02\00A\8b\01\00\83\f8\02\00a\8b\01\00\84\f8\02\00\81\8b\01\00\85\f8\02\00\a1\8b\01\00\86\f8\02\00\c1\8b\01\00\87\f8\02\00\e1\8b\01\00\88\f8\02\00\01\8c\01\00\89\f8\02\00\"\8c\01\00\8a\f8\02\00a\8c\01\00\8b\f8\02\00\81\8c\01\00\8c\f8\02\00\a1\8c\01\00\8d\f8\02\00\c1\8c\01\00\8e\f8\02\00\e1\8c\01\00\8f\f8\02\00\02\8d\01\00\90\f8\02\00A\8d\01\00\91\f8\02\00b\8d\01\00\92\f8\02\00\a2\8d\01\00\93\f8\02\00\e1\8d\01\00\94\f8\02\00\01\8e\01\00\95\f8\02\00!\8e\01\00\96\f8\02\00A\8e\01\00\97\f8\02\00b\8e\01\00\98\f8\02\00\a2\8e\01\00\99\f8\02\00\e1\8e\01\00\9a\f8\02\00\01\8f\01\00\9b\f8\02\00!\8f\01\00\9c\f8\02\00A\8f\01\00\9d\f8\02\00a\8f\01\00\9e\f8\02\00\81\8f\01\00\9f\f8\02\00\a1\8f\01\00\a0\f8\02\00\c1\8f\01\00\a1\f8\02\00\e1\8f\01\00\a2\f8\02\00\01\90\01\00\a3\f8\02\00!\90\01\00\a4\f8\02\00B\90\01\00\a5\f8\02\00\81\90\01\00\a6\f8\02\00\a1\90\01\00\a7\f8\02\00\c1\90\01\00\a8\f8\02\00\e1\90\01\00\a9\f8\02\00\01\91\01\00\aa\f8\02\00!\91\01\00\ab\f8\02\00A\91\01\00\ac\f8\02\00a\91\01\00\ad\f8\02\00\81\91\01\00\ae\f8\02\00\a1\91\01\00\af\f8\02\00\c1\91\01\00\b0\f8\02\00\e1\91\01\00\b1\f8\02\00\01\92\01\00\b2\f8\02\00!\92\01\00\b3\f8\02\00A\92\01\00\b4\f8\02\00a\92\01\00\b5\f8\02\00\81\92\01\00\b6\f8\02\00\a1\92\01\00\b7\f8\02\00\c1\92\01\00\b8\f8\02\00\e2\92\01\00\b9\f8\02\00!\93\01\00\ba\f8\02\00A\93\01\00\bb\f8\02\00a\93\01\00\bc\f8\02\00\81\93\01\00\bd\f8\02\00\a1\93\01\00\be\f8\02\00\c2\93\01\00\bf\f8\02\00\01\94\01\00\c0\f8\02\00!\94\01\00\c1\f8\02\00A\94\01\00\c2\f8\02\00a\94\01\00\c3\f8\02\00\81\94\01\00\c4\f8\02\00\a1\94\01\00\c5\f8\02\00\c1\94\01\00\c6\f8\02\00\e1\94\01\00\c7\f8\02\00\01\95\01\00\c8\f8\02\00!\95\01\00\c9\f8\02\00A\95\01\00\ca\f8\02\00b\95\01\00\cb\f8\02\00\a1\95\01\00\cc\f8\02\00\c1\95\01\00\cd\f8\02\00\e1\95\01\00\ce\f8\02\00\01\96\01\00\cf\f8\02\00!\96\01\00\d0\f8\02\00A\96\01\00\d1\f8\02\00a\96\01\00\d2\f8\02\00\81\96\01\00\d3\f8\02\00\a1\96\01\00\d4\f8\02\00\c1\96\01\00\d5\f8\02\00\e1\96\01\00\d6\f8\02\00\01\97\01\00\d7\f8\02\00!\97\01\00\d8\f8\02\00A\97\01\00\d9\f8\02\00a\97\01\00\da\f8\02\00\81\97\01\00\db\f8\02\00\a1\97\01\00\dc\f8\02\00\c1\97\01\00\dd\f8\02\00\e2\97\01\00\de\f8\02\00!\98\01\00\df\f8\02\00A\98\01\00\e0\f8\02\00a\98\01\00\e1\f8\02\00\81\98\01\00\e2\f8\02\00\a1\98\01\00\e3\f8\02\00\c2\98\01\00\e4\f8\02\00\01\99\01\00\e5\f8\02\00!\99\01\00\e6\f8\02\00A\99\01\00\e7\f8\02\00a\99\01\00\e8\f8\02\00\81\99\01\00\e9\f8\02\00\a1\99\01\00\ea\f8\02\00\c1\99\01\00\eb\f8\02\00\e1\99\01\00\ec\f8\02\00\02\9a\01\00\ed\f8\02\00A\9a\01\00\ee\f8\02\00a\9a\01\00\ef\f8\02\00\81\9a\01\00\f0\f8\02\00\a2\9a\01\00\f1\f8\02\00\e1\9a\01\00\f2\f8\02\00\01\9b\01\00\f3\f8\02\00!\9b\01\00\f4\f8\02\00A\9b\01\00\f5\f8\02\00a\9b\01\00\f6\f8\02\00\81\9b\01\00\f7\f8\02\00\a2\9b\01\00\f8\f8\02\00\e2\9b\01\00\f9\f8\02\00\"\9c\01\00\fa\f8\02\00a\9c\01\00\fb\f8\02\00\82\9c\01\00\fc\f8\02\00\c1\9c\01\00\fd\f8\02\00\e1\9c\01\00\fe\f8\02\00\01\9d\01\00\ff\f8\02\00!\9d\01\00\00\f9\02\00A\9d\01\00\01\f9\02\00a\9d\01\00\02\f9\02\00\81\9d\01\00\03\f9\02\00\a1\9d\01\00\04\f9\02\00\c1\9d\01\00\05\f9\02\00\e1\9d\01\00\06\f9\02\00\02\9e\01\00\07\f9\02\00A\9e\01\00\08\f9\02\00a\9e\01\00\t\f9\02\00\81\9e\01\00\n\f9\02\00\a1\9e\01\00\0b\f9\02\00\c1\9e\01\00\0c\f9\02\00\e1\9e\01\00\0d\f9\02\00\02\9f\01\00\0e\f9\02\00A\9f\01\00\0f\f9\02\00a\9f\01\00\10\f9\02\00\82\9f\01\00\11\f9\02\00\c2\9f\01\00\12\f9\02\00\01\a0\01\00\13\f9\02\00!\a0\01\00\14\f9\02\00A\a0\01\00\15\f9\02\00a\a0\01\00\16\f9\02\00\81\a0\01\00\17\f9\02\00\a1\a0\01\00\18\f9\02\00\c1\a0\01\00\19\f9\02\00\e1\a0\01\00\1a\f9\02\00\01\a1\01\00\1b\f9\02\00\"\a1\01\00\1c\f9\02\00a\a1\01\00\1d\f9\02\00\82\a1\01\00\1e\f9\02\00\c1\a1\01\00\1f\f9\02\00\e2\a1\01\00 \f9\02\00!\a2\01\00!\f9\02\00A\a2\01\00\"\f9\02\00a\a2\01\00#\f9\02\00\82\a2\01\00$\f9\02\00\c1\a2\01\00%\f9\02\00\e1\a2\01\00&\f9\02\00\02\a3\01\00\'\f9\02\00B\a3\01\00(\f9\02\00\81\a3\01\00)\f9\02\00\a1\a3\01\00*\f9\02\00\c1\a3\01\00+\f9\02\00\e1\a3\01\00,\f9\02\00\01\a4\01\00-\f9\02\00!\a4\01\00.\f9\02\00A\a4\01\00/\f9\02\00a\a4\01\000\f9\02\00\81\a4\01\001\f9\02\00\a1\a4\01\002\f9\02\00\c1\a4\01\003\f9\02\00\e1\a4\01\004\f9\02\00\01\a5\01\005\f9\02\00\"\a5\01\006\f9\02\00a\a5\01\007\f9\02\00\82\a5\01\008\f9\02\00\c1\a5\01\009\f9\02\00\e2\a5\01\00:\f9\02\00!\a6\01\00;\f9\02\00B\a6\01\00<\f9\02\00\82\a6\01\00=\f9\02\00\c2\a6\01\00>\f9\02\00\01\a7\01\00?\f9\02\00!\a7\01\00@\f9\02\00A\a7\01\00A\f9\02\00b\a7\01\00B\f9\02\00\a2\a7\01\00C\f9\02\00\e2\a7\01\00D\f9\02\00\"\a8\01\00E\f9\02\00a\a8\01\00F\f9\02\00\81\a8\01\00G\f9\02\00\a1\a8\01\00H\f9\02\00\c1\a8\01\00I\f9\02\00\e1\a8\01\00J\f9\02\00\01\a9\01\00K\f9\02\00!\a9\01\00L\f9\02\00A\a9\01\00M\f9\02\00b\a9\01\00N\f9\02\00\a1\a9\01\00O\f9\02\00\c1\a9\01\00P\f9\02\00\e1\a9\01\00Q\f9\02\00\01\aa\01\00R\f9\02\00\"\aa\01\00S\f9\02\00a\aa\01\00T\f9\02\00\82\aa\01\00U\f9\02\00\c2\aa\01\00V\f9\02\00\01\ab\01\00W\f9\02\00!\ab\01\00X\f9\02\00A\ab\01\00Y\f9\02\00a\ab\01\00Z\f9\02\00\81\ab\01\00[\f9\02\00\a1\ab\01\00\\\f9\02\00\c2\ab\01\00]\f9\02\00\02\ac\01\00^\f9\02\00B\ac\01\00_\f9\02\00\81\ac\01\00`\f9\02\00\a1\ac\01\00a\f9\02\00\c2\ac\01\00b\f9\02\00\01\ad\01\00c\f9\02\00!\ad\01\00d\f9\02\00A\ad\01\00e\f9\02\00b\ad\01\00f\f9\02\00\a1\ad\01\00g\f9\02\00\c1\ad\01\00h\f9\02\00\e1\ad\01\00i\f9\02\00\01\ae\01\00j\f9\02\00!\ae\01\00k\f9\02\00B\ae\01\00l\f9\02\00\81\ae\01\00m\f9\02\00\a1\ae\01\00n\f9\02\00\c1\ae\01\00o\f9\02\00\e1\ae\01\00p\f9\02\00\01\af\01\00q\f9\02\00!\af\01\00r\f9\02\00B\af\01\00s\f9\02\00\82\af\01\00t\f9\02\00\c1\af\01\00u\f9\02\00\e2\af\01\00v\f9\02\00!\b0\01\00w\f9\02\00B\b0\01\00x\f9\02\00\81\b0\01\00y\f9\02\00\a1\b0\01\00z\f9\02\00\c1\b0\01\00{\f9\02\00\e2\b0\01\00|\f9\02\00\"\b1\01\00}\f9\02\00a\b1\01\00~\f9\02\00\82\b1\01\00\7f\f9\02\00\c1\b1\01\00\80\f9\02\00\e2\b1\01\00\81\f9\02\00!\b2\01\00\82\f9\02\00A\b2\01\00\83\f9\02\00a\b2\01\00\84\f9\02\00\81\b2\01\00\85\f9\02\00\a1\b2\01\00\86\f9\02\00\c1\b2\01\00\87\f9\02\00\e2\b2\01\00\88\f9\02\00\"\b3\01\00\89\f9\02\00b\b3\01\00\8a\f9\02\00\a2\b3\01\00\8b\f9\02\00\e1\b3\01\00\8c\f9\02\00\01\b4\01\00\8d\f9\02\00!\b4\01\00\8e\f9\02\00A\b4\01\00\8f\f9\02\00a\b4\01\00\90\f9\02\00\81\b4\01\00\91\f9\02\00\a1\b4\01\00\92\f9\02\00\c1\b4\01\00\93\f9\02\00\e1\b4\01\00\94\f9\02\00\01\b5\01\00\95\f9\02\00!\b5\01\00\96\f9\02\00A\b5\01\00\97\f9\02\00b\b5\01\00\98\f9\02\00\a1\b5\01\00\99\f9\02\00\c1\b5\01\00\9a\f9\02\00\e1\b5\01\00\9b\f9\02\00\01\b6\01\00\9c\f9\02\00!\b6\01\00\9d\f9\02\00A\b6\01\00\9e\f9\02\00a\b6\01\00\9f\f9\02\00\81\b6\01\00\a0\f9\02\00\a1\b6\01\00\a1\f9\02\00\c1\b6\01\00\a2\f9\02\00\e1\b6\01\00\a3\f9\02\00\01\b7\01\00\a4\f9\02\00\"\b7\01\00\a5\f9\02\00b\b7\01\00\a6\f9\02\00\a2\b7\01\00\a7\f9\02\00\e1\b7\01\00\a8\f9\02\00\01\b8\01\00\a9\f9\02\00!\b8\01\00\aa\f9\02\00A\b8\01\00\ab\f9\02\00b\b8\01\00\ac\f9\02\00\a1\b8\01\00\ad\f9\02\00\c2\b8\01\00\ae\f9\02\00\01\b9\01\00\af\f9\02\00!\b9\01\00\b0\f9\02\00B\b9\01\00\b1\f9\02\00\82\b9\01\00\b2\f9\02\00\c1\b9\01\00\b3\f9\02\00\e1\b9\01\00\b4\f9\02\00\01\ba\01\00\b5\f9\02\00!\ba\01\00\b6\f9\02\00A\ba\01\00\b7\f9\02\00a\ba\01\00\b8\f9\02\00\81\ba\01\00\b9\f9\02\00\a1\ba\01\00\ba\f9\02\00\c1\ba\01\00\bb\f9\02\00\e1\ba\01\00\bc\f9\02\00\01\bb\01\00\bd\f9\02\00!\bb\01\00\be\f9\02\00A\bb\01\00\bf\f9\02\00a\bb\01\00\c0\f9\02\00\81\bb\01\00\c1\f9\02\00\a1\bb\01\00\c2\f9\02\00\c1\bb\01\00\c3\f9\02\00\e1\bb\01\00\c4\f9\02\00\01\bc\01\00\c5\f9\02\00\"\bc\01\00\c6\f9\02\00a\bc\01\00\c7\f9\02\00\81\bc\01\00\c8\f9\02\00\a1\bc\01\00\c9\f9\02\00\c1\bc\01\00\ca\f9\02\00\e1\bc\01\00\cb\f9\02\00\02\bd\01\00\cc\f9\02\00B\bd\01\00\cd\f9\02\00\81\bd\01\00\ce\f9\02\00\a1\bd\01\00\cf\f9\02\00\c1\bd\01\00\d0\f9\02\00\e1\bd\01\00\d1\f9\02\00\01\be\01\00\d2\f9\02\00!\be\01\00\d3\f9\02\00B\be\01\00\d4\f9\02\00\81\be\01\00\d5\f9\02\00\a1\be\01\00\d6\f9\02\00\c1\be\01\00\d7\f9\02\00\e1\be\01\00\d8\f9\02\00\02\bf\01\00\d9\f9\02\00B\bf\01\00\da\f9\02\00\81\bf\01\00\db\f9\02\00\a1\bf\01\00\dc\f9\02\00\c1\bf\01\00\dd\f9\02\00\e2\bf\01\00\de\f9\02\00!\c0\01\00\df\f9\02\00A\c0\01\00\e0\f9\02\00b\c0\01\00\e1\f9\02\00\a2\c0\01\00\e2\f9\02\00\e1\c0\01\00\e3\f9\02\00\01\c1\01\00\e4\f9\02\00!\c1\01\00\e5\f9\02\00B\c1\01\00\e6\f9\02\00\81\c1\01\00\e7\f9\02\00\a1\c1\01\00\e8\f9\02\00\c1\c1\01\00\e9\f9\02\00\e1\c1\01\00\ea\f9\02\00\01\c2\01\00\eb\f9\02\00!\c2\01\00\ec\f9\02\00A\c2\01\00\ed\f9\02\00b\c2\01\00\ee\f9\02\00\a1\c2\01\00\ef\f9\02\00\c1\c2\01\00\f0\f9\02\00\e1\c2\01\00\f1\f9\02\00\02\c3\01\00\f2\f9\02\00A\c3\01\00\f3\f9\02\00a\c3\01\00\f4\f9\02\00\81\c3\01\00\f5\f9\02\00\a1\c3\01\00\f6\f9\02\00\c2\c3\01\00\f7\f9\02\00\02\c4\01\00\f8\f9\02\00A\c4\01\00\f9\f9\02\00a\c4\01\00\fa\f9\02\00\81\c4\01\00\fb\f9\02\00\a2\c4\01\00\fc\f9\02\00\e1\c4\01\00\fd\f9\02\00\02\c5\01\00\fe\f9\02\00A\c5\01\00\ff\f9\02\00a\c5\01\00\00\fa\02\00\81\c5\01\00\01\fa\02\00\a2\c5\01\00\02\fa\02\00\e1\c5\01\00\03\fa\02\00\01\c6\01\00\04\fa\02\00!\c6\01\00\05\fa\02\00A\c6\01\00\06\fa\02\00a\c6\01\00\07\fa\02\00\81\c6\01\00\08\fa\02\00\a1\c6\01\00\t\fa\02\00\c2\c6\01\00\n\fa\02\00\01\c7\01\00\0b\fa\02\00!\c7\01\00\0c\fa\02\00A\c7\01\00\0d\fa\02\00a\c7\01\00\0e\fa\02\00\81\c7\01\00\0f\fa\02\00\a1\c7\01\00\10\fa\02\00\c2\c7\01\00\11\fa\02\00\01\c8\01\00\12\fa\02\00\"\c8\01\00\13\fa\02\00b\c8\01\00\14\fa\02\00\a2\c8\01\00\15\fa\02\00\e1\c8\01\00\16\fa\02\00\01\c9\01\00\17\fa\02\00!\c9\01\00\18\fa\02\00A\c9\01\00\19\fa\02\00a\c9\01\00\1a\fa\02\00\81\c9\01\00\1b\fa\02\00\a1\c9\01\00\1c\fa\02\00\c1\c9\01\00\1d\fa\02\00\e2\c9\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 50016) "`C\00\00B\10\00\00")
+ (data (i32.const 50024) "\a2\1c\00\00\00\00\00\00A\00\00\03A\00\01\03A\00\02\03A\00\03\03A\00\08\03A\00\n\03C\00\'\03E\00\00\03E\00\01\03E\00\02\03E\00\08\03I\00\00\03I\00\01\03I\00\02\03I\00\08\03N\00\03\03O\00\00\03O\00\01\03O\00\02\03O\00\03\03O\00\08\03U\00\00\03U\00\01\03U\00\02\03U\00\08\03Y\00\01\03a\00\00\03a\00\01\03a\00\02\03a\00\03\03a\00\08\03a\00\n\03c\00\'\03e\00\00\03e\00\01\03e\00\02\03e\00\08\03i\00\00\03i\00\01\03i\00\02\03i\00\08\03n\00\03\03o\00\00\03o\00\01\03o\00\02\03o\00\03\03o\00\08\03u\00\00\03u\00\01\03u\00\02\03u\00\08\03y\00\01\03y\00\08\03A\00\04\03a\00\04\03A\00\06\03a\00\06\03A\00(\03a\00(\03C\00\01\03c\00\01\03C\00\02\03c\00\02\03C\00\07\03c\00\07\03C\00\0c\03c\00\0c\03D\00\0c\03d\00\0c\03E\00\04\03e\00\04\03E\00\06\03e\00\06\03E\00\07\03e\00\07\03E\00(\03e\00(\03E\00\0c\03e\00\0c\03G\00\02\03g\00\02\03G\00\06\03g\00\06\03G\00\07\03g\00\07\03G\00\'\03g\00\'\03H\00\02\03h\00\02\03I\00\03\03i\00\03\03I\00\04\03i\00\04\03I\00\06\03i\00\06\03I\00(\03i\00(\03I\00\07\03J\00\02\03j\00\02\03K\00\'\03k\00\'\03L\00\01\03l\00\01\03L\00\'\03l\00\'\03L\00\0c\03l\00\0c\03N\00\01\03n\00\01\03N\00\'\03n\00\'\03N\00\0c\03n\00\0c\03O\00\04\03o\00\04\03O\00\06\03o\00\06\03O\00\0b\03o\00\0b\03R\00\01\03r\00\01\03R\00\'\03r\00\'\03R\00\0c\03r\00\0c\03S\00\01\03s\00\01\03S\00\02\03s\00\02\03S\00\'\03s\00\'\03S\00\0c\03s\00\0c\03T\00\'\03t\00\'\03T\00\0c\03t\00\0c\03U\00\03\03u\00\03\03U\00\04\03u\00\04\03U\00\06\03u\00\06\03U\00\n\03u\00\n\03U\00\0b\03u\00\0b\03U\00(\03u\00(\03W\00\02\03w\00\02\03Y\00\02\03y\00\02\03Y\00\08\03Z\00\01\03z\00\01\03Z\00\07\03z\00\07\03Z\00\0c\03z\00\0c\03O\00\1b\03o\00\1b\03U\00\1b\03u\00\1b\03A\00\0c\03a\00\0c\03I\00\0c\03i\00\0c\03O\00\0c\03o\00\0c\03U\00\0c\03u\00\0c\03U\00\08\03\04\03u\00\08\03\04\03U\00\08\03\01\03u\00\08\03\01\03U\00\08\03\0c\03u\00\08\03\0c\03U\00\08\03\00\03u\00\08\03\00\03A\00\08\03\04\03a\00\08\03\04\03A\00\07\03\04\03a\00\07\03\04\03\c6\00\04\03\e6\00\04\03G\00\0c\03g\00\0c\03K\00\0c\03k\00\0c\03O\00(\03o\00(\03O\00(\03\04\03o\00(\03\04\03\b7\01\0c\03\92\02\0c\03j\00\0c\03G\00\01\03g\00\01\03N\00\00\03n\00\00\03A\00\n\03\01\03a\00\n\03\01\03\c6\00\01\03\e6\00\01\03\d8\00\01\03\f8\00\01\03A\00\0f\03a\00\0f\03A\00\11\03a\00\11\03E\00\0f\03e\00\0f\03E\00\11\03e\00\11\03I\00\0f\03i\00\0f\03I\00\11\03i\00\11\03O\00\0f\03o\00\0f\03O\00\11\03o\00\11\03R\00\0f\03r\00\0f\03R\00\11\03r\00\11\03U\00\0f\03u\00\0f\03U\00\11\03u\00\11\03S\00&\03s\00&\03T\00&\03t\00&\03H\00\0c\03h\00\0c\03A\00\07\03a\00\07\03E\00\'\03e\00\'\03O\00\08\03\04\03o\00\08\03\04\03O\00\03\03\04\03o\00\03\03\04\03O\00\07\03o\00\07\03O\00\07\03\04\03o\00\07\03\04\03Y\00\04\03y\00\04\03\00\03\01\03\13\03\08\03\01\03\b9\02;\00\a8\00\01\03\91\03\01\03\b7\00\95\03\01\03\97\03\01\03\99\03\01\03\9f\03\01\03\a5\03\01\03\a9\03\01\03\b9\03\08\03\01\03\99\03\08\03\a5\03\08\03\b1\03\01\03\b5\03\01\03\b7\03\01\03\b9\03\01\03\c5\03\08\03\01\03\b9\03\08\03\c5\03\08\03\bf\03\01\03\c5\03\01\03\c9\03\01\03\d2\03\01\03\d2\03\08\03\15\04\00\03\15\04\08\03\13\04\01\03\06\04\08\03\1a\04\01\03\18\04\00\03#\04\06\03\18\04\06\038\04\06\035\04\00\035\04\08\033\04\01\03V\04\08\03:\04\01\038\04\00\03C\04\06\03t\04\0f\03u\04\0f\03\16\04\06\036\04\06\03\10\04\06\030\04\06\03\10\04\08\030\04\08\03\15\04\06\035\04\06\03\d8\04\08\03\d9\04\08\03\16\04\08\036\04\08\03\17\04\08\037\04\08\03\18\04\04\038\04\04\03\18\04\08\038\04\08\03\1e\04\08\03>\04\08\03\e8\04\08\03\e9\04\08\03-\04\08\03M\04\08\03#\04\04\03C\04\04\03#\04\08\03C\04\08\03#\04\0b\03C\04\0b\03\'\04\08\03G\04\08\03+\04\08\03K\04\08\03\'\06S\06\'\06T\06H\06T\06\'\06U\06J\06T\06\d5\06T\06\c1\06T\06\d2\06T\06(\t<\t0\t<\t3\t<\t\15\t<\t\16\t<\t\17\t<\t\1c\t<\t!\t<\t\"\t<\t+\t<\t/\t<\t\c7\t\be\t\c7\t\d7\t\a1\t\bc\t\a2\t\bc\t\af\t\bc\t2\n<\n8\n<\n\16\n<\n\17\n<\n\1c\n<\n+\n<\nG\0bV\0bG\0b>\0bG\0bW\0b!\0b<\0b\"\0b<\0b\92\0b\d7\0b\c6\0b\be\0b\c7\0b\be\0b\c6\0b\d7\0bF\0cV\0c\bf\0c\d5\0c\c6\0c\d5\0c\c6\0c\d6\0c\c6\0c\c2\0c\c6\0c\c2\0c\d5\0cF\0d>\0dG\0d>\0dF\0dW\0d\d9\0d\ca\0d\d9\0d\cf\0d\d9\0d\cf\0d\ca\0d\d9\0d\df\0dB\0f\b7\0fL\0f\b7\0fQ\0f\b7\0fV\0f\b7\0f[\0f\b7\0f@\0f\b5\0fq\0fr\0fq\0ft\0f\b2\0f\80\0f\b3\0f\80\0fq\0f\80\0f\92\0f\b7\0f\9c\0f\b7\0f\a1\0f\b7\0f\a6\0f\b7\0f\ab\0f\b7\0f\90\0f\b5\0f%\10.\10\05\1b5\1b\07\1b5\1b\t\1b5\1b\0b\1b5\1b\0d\1b5\1b\11\1b5\1b:\1b5\1b<\1b5\1b>\1b5\1b?\1b5\1bB\1b5\1bA\00%\03a\00%\03B\00\07\03b\00\07\03B\00#\03b\00#\03B\001\03b\001\03C\00\'\03\01\03c\00\'\03\01\03D\00\07\03d\00\07\03D\00#\03d\00#\03D\001\03d\001\03D\00\'\03d\00\'\03D\00-\03d\00-\03E\00\04\03\00\03e\00\04\03\00\03E\00\04\03\01\03e\00\04\03\01\03E\00-\03e\00-\03E\000\03e\000\03E\00\'\03\06\03e\00\'\03\06\03F\00\07\03f\00\07\03G\00\04\03g\00\04\03H\00\07\03h\00\07\03H\00#\03h\00#\03H\00\08\03h\00\08\03H\00\'\03h\00\'\03H\00.\03h\00.\03I\000\03i\000\03I\00\08\03\01\03i\00\08\03\01\03K\00\01\03k\00\01\03K\00#\03k\00#\03K\001\03k\001\03L\00#\03l\00#\03L\00#\03\04\03l\00#\03\04\03L\001\03l\001\03L\00-\03l\00-\03M\00\01\03m\00\01\03M\00\07\03m\00\07\03M\00#\03m\00#\03N\00\07\03n\00\07\03N\00#\03n\00#\03N\001\03n\001\03N\00-\03n\00-\03O\00\03\03\01\03o\00\03\03\01\03O\00\03\03\08\03o\00\03\03\08\03O\00\04\03\00\03o\00\04\03\00\03O\00\04\03\01\03o\00\04\03\01\03P\00\01\03p\00\01\03P\00\07\03p\00\07\03R\00\07\03r\00\07\03R\00#\03r\00#\03R\00#\03\04\03r\00#\03\04\03R\001\03r\001\03S\00\07\03s\00\07\03S\00#\03s\00#\03S\00\01\03\07\03s\00\01\03\07\03S\00\0c\03\07\03s\00\0c\03\07\03S\00#\03\07\03s\00#\03\07\03T\00\07\03t\00\07\03T\00#\03t\00#\03T\001\03t\001\03T\00-\03t\00-\03U\00$\03u\00$\03U\000\03u\000\03U\00-\03u\00-\03U\00\03\03\01\03u\00\03\03\01\03U\00\04\03\08\03u\00\04\03\08\03V\00\03\03v\00\03\03V\00#\03v\00#\03W\00\00\03w\00\00\03W\00\01\03w\00\01\03W\00\08\03w\00\08\03W\00\07\03w\00\07\03W\00#\03w\00#\03X\00\07\03x\00\07\03X\00\08\03x\00\08\03Y\00\07\03y\00\07\03Z\00\02\03z\00\02\03Z\00#\03z\00#\03Z\001\03z\001\03h\001\03t\00\08\03w\00\n\03y\00\n\03\7f\01\07\03A\00#\03a\00#\03A\00\t\03a\00\t\03A\00\02\03\01\03a\00\02\03\01\03A\00\02\03\00\03a\00\02\03\00\03A\00\02\03\t\03a\00\02\03\t\03A\00\02\03\03\03a\00\02\03\03\03A\00#\03\02\03a\00#\03\02\03A\00\06\03\01\03a\00\06\03\01\03A\00\06\03\00\03a\00\06\03\00\03A\00\06\03\t\03a\00\06\03\t\03A\00\06\03\03\03a\00\06\03\03\03A\00#\03\06\03a\00#\03\06\03E\00#\03e\00#\03E\00\t\03e\00\t\03E\00\03\03e\00\03\03E\00\02\03\01\03e\00\02\03\01\03E\00\02\03\00\03e\00\02\03\00\03E\00\02\03\t\03e\00\02\03\t\03E\00\02\03\03\03e\00\02\03\03\03E\00#\03\02\03e\00#\03\02\03I\00\t\03i\00\t\03I\00#\03i\00#\03O\00#\03o\00#\03O\00\t\03o\00\t\03O\00\02\03\01\03o\00\02\03\01\03O\00\02\03\00\03o\00\02\03\00\03O\00\02\03\t\03o\00\02\03\t\03O\00\02\03\03\03o\00\02\03\03\03O\00#\03\02\03o\00#\03\02\03O\00\1b\03\01\03o\00\1b\03\01\03O\00\1b\03\00\03o\00\1b\03\00\03O\00\1b\03\t\03o\00\1b\03\t\03O\00\1b\03\03\03o\00\1b\03\03\03O\00\1b\03#\03o\00\1b\03#\03U\00#\03u\00#\03U\00\t\03u\00\t\03U\00\1b\03\01\03u\00\1b\03\01\03U\00\1b\03\00\03u\00\1b\03\00\03U\00\1b\03\t\03u\00\1b\03\t\03U\00\1b\03\03\03u\00\1b\03\03\03U\00\1b\03#\03u\00\1b\03#\03Y\00\00\03y\00\00\03Y\00#\03y\00#\03Y\00\t\03y\00\t\03Y\00\03\03y\00\03\03\b1\03\13\03\b1\03\14\03\b1\03\13\03\00\03\b1\03\14\03\00\03\b1\03\13\03\01\03\b1\03\14\03\01\03\b1\03\13\03B\03\b1\03\14\03B\03\91\03\13\03\91\03\14\03\91\03\13\03\00\03\91\03\14\03\00\03\91\03\13\03\01\03\91\03\14\03\01\03\91\03\13\03B\03\91\03\14\03B\03\b5\03\13\03\b5\03\14\03\b5\03\13\03\00\03\b5\03\14\03\00\03\b5\03\13\03\01\03\b5\03\14\03\01\03\95\03\13\03\95\03\14\03\95\03\13\03\00\03\95\03\14\03\00\03\95\03\13\03\01\03\95\03\14\03\01\03\b7\03\13\03\b7\03\14\03\b7\03\13\03\00\03\b7\03\14\03\00\03\b7\03\13\03\01\03\b7\03\14\03\01\03\b7\03\13\03B\03\b7\03\14\03B\03\97\03\13\03\97\03\14\03\97\03\13\03\00\03\97\03\14\03\00\03\97\03\13\03\01\03\97\03\14\03\01\03\97\03\13\03B\03\97\03\14\03B\03\b9\03\13\03\b9\03\14\03\b9\03\13\03\00\03\b9\03\14\03\00\03\b9\03\13\03\01\03\b9\03\14\03\01\03\b9\03\13\03B\03\b9\03\14\03B\03\99\03\13\03\99\03\14\03\99\03\13\03\00\03\99\03\14\03\00\03\99\03\13\03\01\03\99\03\14\03\01\03\99\03\13\03B\03\99\03\14\03B\03\bf\03\13\03\bf\03\14\03\bf\03\13\03\00\03\bf\03\14\03\00\03\bf\03\13\03\01\03\bf\03\14\03\01\03\9f\03\13\03\9f\03\14\03\9f\03\13\03\00\03\9f\03\14\03\00\03\9f\03\13\03\01\03\9f\03\14\03\01\03\c5\03\13\03\c5\03\14\03\c5\03\13\03\00\03\c5\03\14\03\00\03\c5\03\13\03\01\03\c5\03\14\03\01\03\c5\03\13\03B\03\c5\03\14\03B\03\a5\03\14\03\a5\03\14\03\00\03\a5\03\14\03\01\03\a5\03\14\03B\03\c9\03\13\03\c9\03\14\03\c9\03\13\03\00\03\c9\03\14\03\00\03\c9\03\13\03\01\03\c9\03\14\03\01\03\c9\03\13\03B\03\c9\03\14\03B\03\a9\03\13\03\a9\03\14\03\a9\03\13\03\00\03\a9\03\14\03\00\03\a9\03\13\03\01\03\a9\03\14\03\01\03\a9\03\13\03B\03\a9\03\14\03B\03\b1\03\00\03\b1\03\01\03\b5\03\00\03\b5\03\01\03\b7\03\00\03\b7\03\01\03\b9\03\00\03\b9\03\01\03\bf\03\00\03\bf\03\01\03\c5\03\00\03\c5\03\01\03\c9\03\00\03\c9\03\01\03\b1\03\13\03E\03\b1\03\14\03E\03\b1\03\13\03\00\03E\03\b1\03\14\03\00\03E\03\b1\03\13\03\01\03E\03\b1\03\14\03\01\03E\03\b1\03\13\03B\03E\03\b1\03\14\03B\03E\03\91\03\13\03E\03\91\03\14\03E\03\91\03\13\03\00\03E\03\91\03\14\03\00\03E\03\91\03\13\03\01\03E\03\91\03\14\03\01\03E\03\91\03\13\03B\03E\03\91\03\14\03B\03E\03\b7\03\13\03E\03\b7\03\14\03E\03\b7\03\13\03\00\03E\03\b7\03\14\03\00\03E\03\b7\03\13\03\01\03E\03\b7\03\14\03\01\03E\03\b7\03\13\03B\03E\03\b7\03\14\03B\03E\03\97\03\13\03E\03\97\03\14\03E\03\97\03\13\03\00\03E\03\97\03\14\03\00\03E\03\97\03\13\03\01\03E\03\97\03\14\03\01\03E\03\97\03\13\03B\03E\03\97\03\14\03B\03E\03\c9\03\13\03E\03\c9\03\14\03E\03\c9\03\13\03\00\03E\03\c9\03\14\03\00\03E\03\c9\03\13\03\01\03E\03\c9\03\14\03\01\03E\03\c9\03\13\03B\03E\03\c9\03\14\03B\03E\03\a9\03\13\03E\03\a9\03\14\03E\03\a9\03\13\03\00\03E\03\a9\03\14\03\00\03E\03\a9\03\13\03\01\03E\03\a9\03\14\03\01\03E\03\a9\03\13\03B\03E\03\a9\03\14\03B\03E\03\b1\03\06\03\b1\03\04\03\b1\03\00\03E\03\b1\03E\03\b1\03\01\03E\03\b1\03B\03\b1\03B\03E\03\91\03\06\03\91\03\04\03\91\03\00\03\91\03\01\03\91\03E\03\b9\03\a8\00B\03\b7\03\00\03E\03\b7\03E\03\b7\03\01\03E\03\b7\03B\03\b7\03B\03E\03\95\03\00\03\95\03\01\03\97\03\00\03\97\03\01\03\97\03E\03\bf\1f\00\03\bf\1f\01\03\bf\1fB\03\b9\03\06\03\b9\03\04\03\b9\03\08\03\00\03\b9\03\08\03\01\03\b9\03B\03\b9\03\08\03B\03\99\03\06\03\99\03\04\03\99\03\00\03\99\03\01\03\fe\1f\00\03\fe\1f\01\03\fe\1fB\03\c5\03\06\03\c5\03\04\03\c5\03\08\03\00\03\c5\03\08\03\01\03\c1\03\13\03\c1\03\14\03\c5\03B\03\c5\03\08\03B\03\a5\03\06\03\a5\03\04\03\a5\03\00\03\a5\03\01\03\a1\03\14\03\a8\00\00\03\a8\00\01\03`\00\c9\03\00\03E\03\c9\03E\03\c9\03\01\03E\03\c9\03B\03\c9\03B\03E\03\9f\03\00\03\9f\03\01\03\a9\03\00\03\a9\03\01\03\a9\03E\03\b4\00\02 \03 \a9\03K\00A\00\n\03\90!8\03\92!8\03\94!8\03\d0!8\03\d4!8\03\d2!8\03\03\"8\03\08\"8\03\0b\"8\03#\"8\03%\"8\03<\"8\03C\"8\03E\"8\03H\"8\03=\008\03a\"8\03M\"8\03<\008\03>\008\03d\"8\03e\"8\03r\"8\03s\"8\03v\"8\03w\"8\03z\"8\03{\"8\03\82\"8\03\83\"8\03\86\"8\03\87\"8\03\a2\"8\03\a8\"8\03\a9\"8\03\ab\"8\03|\"8\03}\"8\03\91\"8\03\92\"8\03\b2\"8\03\b3\"8\03\b4\"8\03\b5\"8\03\080\t0\dd*8\03K0\990M0\990O0\990Q0\990S0\990U0\990W0\990Y0\990[0\990]0\990_0\990a0\990d0\990f0\990h0\990o0\990o0\9a0r0\990r0\9a0u0\990u0\9a0x0\990x0\9a0{0\990{0\9a0F0\990\9d0\990\ab0\990\ad0\990\af0\990\b10\990\b30\990\b50\990\b70\990\b90\990\bb0\990\bd0\990\bf0\990\c10\990\c40\990\c60\990\c80\990\cf0\990\cf0\9a0\d20\990\d20\9a0\d50\990\d50\9a0\d80\990\d80\9a0\db0\990\db0\9a0\a60\990\ef0\990\f00\990\f10\990\f20\990\fd0\990H\8c\f4f\ca\8e\c8\8c\d1n2N\e5S\9c\9f\9c\9fQY\d1\91\87UHY\f6aiv\85\7f?\86\ba\87\f8\88\8f\90\02j\1bm\d9p\des=\84j\91\f1\99\82NuS\04k\1br-\86\1e\9eP]\ebo\cd\85d\89\c9b\d8\81\1f\88\ca^\17gjm\fcr\ce\90\86O\b7Q\deR\c4d\d3j\10r\e7v\01\80\06\86\\\86\ef\8d2\97o\9b\fa\9d\8cx\7fy\a0}\c9\83\04\93\7f\9e\d6\8a\dfX\04_`|~\80br\cax\c2\8c\f7\96\d8Xb\\\13j\dam\0fo/}7~K\96\d2R\8b\80\dcQ\ccQ\1cz\be}\f1\83u\96\80\8b\cfb\02j\fe\8a9N\e7[\12`\87spu\17S\fbx\bfO\a9_\0dN\cclxe\"}\c3S^X\01wI\84\aa\8a\bak\b0\8f\88l\feb\e5\82\a0ceu\aeNiQ\c9Q\81h\e7|o\82\d2\8a\cf\91\f5RBTsY\ec^\c5e\feo*y\ad\95j\9a\97\9e\ce\9e\9bR\c6fwkb\8ft^\90a\00b\9ad#oIq\89t\cay\f4}o\80&\8f\ee\84#\90J\93\17R\a3R\bdT\c8p\c2\88\aa\8a\c9^\f5_{c\aek>|us\e4N\f9V\e7[\ba]\1c`\b2sit\9a\7fF\804\92\f6\96H\97\18\98\8bO\aey\b4\91\b8\96\e1`\86N\daP\ee[?\\\99e\02j\ceqBv\fc\84|\90\8d\9f\88f.\96\89R{g\f3gAm\9cn\ttYukx\10}^\98mQ.bx\96+P\19]\eam*\8f\8b_Da\17h\87s\86\96)R\0fTe\\\13fNg\a8h\e5l\06t\e2uy\7f\cf\88\e1\88\cc\91\e2\96?S\ban\1dT\d0q\98t\fa\85\a3\96W\9c\9f\9e\97g\cbm\e8\81\cbz {\92|\c0r\99pX\8b\c0N6\83:R\07R\a6^\d3b\d6|\85[\1em\b4f;\8fL\88M\96\8b\89\d3^@Q\c0UZXtf\deQ*s\cav<y^yey\8fyV\97\be|\bd\7f\12\86\f8\8a8\90\fd\90\ef\98\fc\98(\99\b4\9d\de\90\b7\96\aeO\e7PMQ\c9R\e4RQS\9dU\06VhV@X\a8Xd\\n\\\94`ha\8ea\f2aOe\e2e\91f\85hwm\1an\"onq+r\"t\91x>yIyHyPyVy]y\8dy\8ey@z\81z\c0{\f4}\t~A~r\7f\05\80\ed\81y\82y\82W\84\10\89\96\89\01\8b9\8b\d3\8c\08\8d\b6\8f8\90\e3\96\ff\97;\98u`P\d8\ee\de\18\82&N\b5QhQ\80OEQ\80Q\c7R\faR\9dUUU\99U\e2UZX\b3XDYTYbZ([\d2^\d9^i_\ad_\d8`Na\08a\8ea`a\f2a4b\c4c\1cdRdVetf\17g\1bgVgyk\bakAm\dbn\cbn\"o\1epnq\a7w5r\afr*sqt\06u;u\1dv\1fv\cav\dbv\f4vJw@w\ccx\b1z\c0{{|[}\f4}>\7f\05\80R\83\ef\83y\87A\89\86\89\96\89\bf\8a\f8\8a\cb\8a\01\8b\fe\8a\ed\8a9\8b\8a\8b\08\8d8\8fr\90\99\91v\92|\96\e3\96V\97\db\97\ff\97\0b\98;\98\12\9b\9c\9fJ\d8J\dcJ\d8D\dcL\d8\d5\df\9d;\18@9@T\d8I\deW\d8\d0\dc_\d8\d3\deC\9f\8e\9f\d9\05\b4\05\f2\05\b7\05\e9\05\c1\05\e9\05\c2\05\e9\05\bc\05\c1\05\e9\05\bc\05\c2\05\d0\05\b7\05\d0\05\b8\05\d0\05\bc\05\d1\05\bc\05\d2\05\bc\05\d3\05\bc\05\d4\05\bc\05\d5\05\bc\05\d6\05\bc\05\d8\05\bc\05\d9\05\bc\05\da\05\bc\05\db\05\bc\05\dc\05\bc\05\de\05\bc\05\e0\05\bc\05\e1\05\bc\05\e3\05\bc\05\e4\05\bc\05\e6\05\bc\05\e7\05\bc\05\e8\05\bc\05\e9\05\bc\05\ea\05\bc\05\d5\05\b9\05\d1\05\bf\05\db\05\bf\05\e4\05\bf\05\01\d8\d2\dd\07\03\01\d8\da\dd\07\03\04\d8\99\dc\04\d8\ba\dc\04\d8\9b\dc\04\d8\ba\dc\04\d8\a5\dc\04\d8\ba\dc\04\d81\dd\04\d8\'\dd\04\d82\dd\04\d8\'\dd\04\d8G\df\04\d8>\df\04\d8G\df\04\d8W\df\04\d8\82\df\04\d8\c9\df\04\d8\84\df\04\d8\bb\df\04\d8\8b\df\04\d8\c2\df\04\d8\90\df\04\d8\c9\df\04\d8\c2\df\04\d8\c2\df\04\d8\c2\df\04\d8\b8\df\04\d8\c2\df\04\d8\c9\df\05\d8\b9\dc\05\d8\ba\dc\05\d8\b9\dc\05\d8\b0\dc\05\d8\b9\dc\05\d8\bd\dc\05\d8\b8\dd\05\d8\af\dd\05\d8\b9\dd\05\d8\af\dd\06\d85\dd\06\d80\dd\18\d8\1e\dd\18\d8\1e\dd\18\d8\1e\dd\18\d8)\dd\18\d8\1e\dd\18\d8\1f\dd\18\d8)\dd\18\d8\1f\dd\18\d8\1e\dd\18\d8 \dd\18\d8\1e\dd\18\d8\1e\dd\18\d8\1f\dd\18\d8\1e\dd\18\d8)\dd\18\d8\1f\dd\18\d8\1e\dd\18\d8\1e\dd\18\d8 \dd\1b\d8g\dd\1b\d8g\dd\1b\d8c\dd\1b\d8g\dd\1b\d8c\dd\1b\d8g\dd\1b\d8g\dd4\d8W\dd4\d8e\dd4\d8X\dd4\d8e\dd4\d8X\dd4\d8e\dd4\d8n\dd4\d8X\dd4\d8e\dd4\d8o\dd4\d8X\dd4\d8e\dd4\d8p\dd4\d8X\dd4\d8e\dd4\d8q\dd4\d8X\dd4\d8e\dd4\d8r\dd4\d8\b9\dd4\d8e\dd4\d8\ba\dd4\d8e\dd4\d8\b9\dd4\d8e\dd4\d8n\dd4\d8\ba\dd4\d8e\dd4\d8n\dd4\d8\b9\dd4\d8e\dd4\d8o\dd4\d8\ba\dd4\d8e\dd4\d8o\dd=N8NAN@\d8\"\dd`O\aeO\bbO\02PzP\99P\e7P\cfP\9e4A\d8:\deMQTQdQwQA\d8\1c\dd\b94gQ\8dQA\d8K\dd\97Q\a4Q\ccN\acQ\b5Qd\d8\df\dd\f5Q\03R\df4;RFRrRwR\155\c7R\c9R\e4R\faR\05S\06S\17SISQSZSsS}S\7fS\7fS\7fSB\d8,\depp\caS\dfSB\d8c\df\ebS\f1S\06T\9eT8THThT\a2T\f6T\10USUcU\84U\84U\99U\abU\b3U\c2U\16W\06V\17WQVtV\07R\eeX\ceW\f4W\0dX\8bW2X1X\acXE\d8\e4\dc\f2X\f7X\06Y\1aY\"YbYE\d8\a8\deE\d8\ea\de\ecY\1bZ\'Z\d8YfZ\ee6\fc6\08[>[>[F\d8\c8\dd\c3[\d8[\e7[\f3[F\d8\18\df\ff[\06\\S_\"\\\817`\\n\\\c0\\\8d\\G\d8\e4\ddC]G\d8\e6\ddn]k]|]\e1]\e2]/8\fd](^=^i^b8H\d8\83\dd|8\b0^\b3^\b6^\ca^h\d8\92\df\fe^H\d81\dfH\d81\df\01\82\"_\"_\c78L\d8\b8\deX\d8\da\ddb_k_\e38\9a_\cd_\d7_\f9_\81`:9\1c9\94`I\d8\d4\de\c7`HaLaNaLaza\8ea\b2a\a4a\afa\dea\f2a\f6a\10b\1bb]b\b1b\d4bPcJ\d8\0c\df=c\fcbhc\83c\e4cJ\d8\f1\df\"d\c5c\a9c.:id~d\9ddwdl:OeleL\d8\n\dc\e3e\f8fIf\19;\91f\08;\e4:\92Q\95Q\00g\9cf\ad\80\d9C\17g\1bg!g^gSgL\d8\c3\dfI;\fag\85gRh\85hM\d8m\dc\8eh\1fh\14i\9d;Bi\a3i\eai\a8jM\d8\a3\de\dbj\18<!kN\d8\a7\dcTkN<rk\9fk\bak\bbkN\d8\8d\deG\d8\0b\ddN\d8\fa\deNlO\d8\bc\dc\bfl\cdlgl\16m>mwmAmimxm\85mO\d8\1e\dd4m/nnn3=\cbn\c7nO\d8\d1\de\f9mnoO\d8^\dfO\d8\8e\df\c6o9p\1ep\1bp\96=Jp}pwp\adpA\d8%\ddEqP\d8c\de\9cqP\d8\ab\df(r5rPrQ\d8\08\de\80r\95rQ\d85\dfR\d8\14\dczs\8bs\ac>\a5s\b8>\b8>Gt\\tqt\85t\cat\1b?$uS\d86\dc>uS\d8\92\dcpuH\d8\9f\dd\10vS\d8\a1\dfS\d8\b8\dfT\d8D\dc\fc?\08@\f4vT\d8\f3\dcT\d8\f2\dcT\d8\19\ddT\d83\dd\1ew\1fw\1fwJw9@\8bwF@\96@U\d8\1d\dcNx\8cx\ccx\e3@U\d8&\deVyU\d8\9a\deU\d8\c5\de\8fy\eby/A@zJzOzV\d8|\ddV\d8\a7\deV\d8\a7\de\eez\02BV\d8\ab\df\c6{\c9{\'BW\d8\80\dc\d2|\a0B\e8|\e3|\00}W\d8\86\dfc}\01C\c7}\02~E~4CX\d8(\deX\d8G\deYCX\d8\d9\dez\7fX\d8>\df\95\7f\fa\7f\05\80Y\d8\da\dcY\d8#\dd`\80Y\d8\a8\ddp\80L\d8_\df\d5C\b2\80\03\81\0bD>\81\b5ZY\d8\a7\dfY\d8\b5\dfL\d8\93\dfL\d8\9c\df\01\82\04\82\9e\8fkD\91\82\8b\82\9d\82\b3R\b1\82\b3\82\bd\82\e6\82Z\d8<\df\e5\82\1d\83c\83\ad\83#\83\bd\83\e7\83W\84S\83\ca\83\cc\83\dc\83[\d86\dc[\d8k\dd[\d8\d5\dc+E\f1\84\f3\84\16\85\\\d8\ca\dfd\85[\d8,\df]EaE[\d8\b1\df\\\d8\d2\dckEP\86\\\86g\86i\86\a9\86\88\86\0e\87\e2\86y\87(\87k\87\86\87\d7E\e1\87\01\88\f9E`\88c\88]\d8g\de\d7\88\de\885F\fa\88\bb4^\d8\ae\dc^\d8f\dd\beF\c7F\a0\8a\ed\8a\8a\8bU\8c_\d8\a8\dc\ab\8c\c1\8c\1b\8dw\8d_\d8/\dfB\d8\04\dc\cb\8d\bc\8d\f0\8dB\d8\de\dc\d4\8e8\8fa\d8\d2\dda\d8\ed\dd\94\90\f1\90\11\91a\d8.\df\1b\918\92\d7\92\d8\92|\92\f9\93\15\94b\d8\fa\df\8b\95\95I\b7\95c\d8w\dd\e6I\c3\96\b2]#\97d\d8E\ddd\d8\1a\denJvJ\e0\97e\d8\n\dc\b2Je\d8\96\dc\0b\98\0b\98)\98e\d8\b6\dd\e2\983K)\99\a7\99\c2\99\fe\99\ceKf\d80\df\12\9b@\9c\fd\9c\ceL\edLg\9dh\d8\ce\dc\f8Lh\d8\05\ddh\d8\0e\deh\d8\91\de\bb\9eVM\f9\9e\fe\9e\05\9f\0f\9f\16\9f;\9fi\d8\00\de\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 58216) "h\c3\00\00Q\0e\00\00")
+ (data (i32.const 58224) "@x\00\00\00\00\00\00\a0\00\00\00\01\00\00\00\a8\00\00\00\"\00\00\00\aa\00\00\00a\00\00\00\af\00\00\00\82\00\00\00\b2\00\00\00\c1\00\00\00\b3\00\00\00\e1\00\00\00\b4\00\00\00\02\01\00\00\b5\00\00\00A\01\00\00\b8\00\00\00b\01\00\00\b9\00\00\00\a1\01\00\00\ba\00\00\00\c1\01\00\00\bc\00\00\00\e3\01\00\00\bd\00\00\00C\02\00\00\be\00\00\00\a3\02\00\002\01\00\00\02\03\00\003\01\00\00B\03\00\00?\01\00\00\82\03\00\00@\01\00\00\c2\03\00\00I\01\00\00\02\04\00\00\7f\01\00\00A\04\00\00\c4\01\00\00c\04\00\00\c5\01\00\00\c3\04\00\00\c6\01\00\00#\05\00\00\c7\01\00\00\82\05\00\00\c8\01\00\00\c2\05\00\00\c9\01\00\00\02\06\00\00\ca\01\00\00B\06\00\00\cb\01\00\00\82\06\00\00\cc\01\00\00\c2\06\00\00\f1\01\00\00\02\07\00\00\f2\01\00\00B\07\00\00\f3\01\00\00\82\07\00\00\b0\02\00\00\c1\07\00\00\b1\02\00\00\e1\07\00\00\b2\02\00\00\01\08\00\00\b3\02\00\00!\08\00\00\b4\02\00\00A\08\00\00\b5\02\00\00a\08\00\00\b6\02\00\00\81\08\00\00\b7\02\00\00\a1\08\00\00\b8\02\00\00\c1\08\00\00\d8\02\00\00\e2\08\00\00\d9\02\00\00\"\t\00\00\da\02\00\00b\t\00\00\db\02\00\00\a2\t\00\00\dc\02\00\00\e2\t\00\00\dd\02\00\00\"\n\00\00\e0\02\00\00a\n\00\00\e1\02\00\00\81\n\00\00\e2\02\00\00\a1\n\00\00\e3\02\00\00\c1\n\00\00\e4\02\00\00\e1\n\00\00z\03\00\00\02\0b\00\00\84\03\00\00B\0b\00\00\85\03\00\00\83\0b\00\00\d0\03\00\00\e1\0b\00\00\d1\03\00\00\01\0c\00\00\d2\03\00\00!\0c\00\00\d3\03\00\00B\0c\00\00\d4\03\00\00\82\0c\00\00\d5\03\00\00\c1\0c\00\00\d6\03\00\00\e1\0c\00\00\f0\03\00\00\01\0d\00\00\f1\03\00\00!\0d\00\00\f2\03\00\00A\0d\00\00\f4\03\00\00a\0d\00\00\f5\03\00\00\81\0d\00\00\f9\03\00\00\a1\0d\00\00\87\05\00\00\c2\0d\00\00u\06\00\00\02\0e\00\00v\06\00\00B\0e\00\00w\06\00\00\82\0e\00\00x\06\00\00\c2\0e\00\003\0e\00\00\02\0f\00\00\b3\0e\00\00B\0f\00\00\dc\0e\00\00\82\0f\00\00\dd\0e\00\00\c2\0f\00\00\0c\0f\00\00\01\10\00\00w\0f\00\00#\10\00\00y\0f\00\00\83\10\00\00\fc\10\00\00\e1\10\00\00,\1d\00\00\01\11\00\00-\1d\00\00!\11\00\00.\1d\00\00A\11\00\000\1d\00\00a\11\00\001\1d\00\00\81\11\00\002\1d\00\00\a1\11\00\003\1d\00\00\c1\11\00\004\1d\00\00\e1\11\00\005\1d\00\00\01\12\00\006\1d\00\00!\12\00\007\1d\00\00A\12\00\008\1d\00\00a\12\00\009\1d\00\00\81\12\00\00:\1d\00\00\a1\12\00\00<\1d\00\00\c1\12\00\00=\1d\00\00\e1\12\00\00>\1d\00\00\01\13\00\00?\1d\00\00!\13\00\00@\1d\00\00A\13\00\00A\1d\00\00a\13\00\00B\1d\00\00\81\13\00\00C\1d\00\00\a1\13\00\00D\1d\00\00\c1\13\00\00E\1d\00\00\e1\13\00\00F\1d\00\00\01\14\00\00G\1d\00\00!\14\00\00H\1d\00\00A\14\00\00I\1d\00\00a\14\00\00J\1d\00\00\81\14\00\00K\1d\00\00\a1\14\00\00L\1d\00\00\c1\14\00\00M\1d\00\00\e1\14\00\00O\1d\00\00\01\15\00\00P\1d\00\00!\15\00\00Q\1d\00\00A\15\00\00R\1d\00\00a\15\00\00S\1d\00\00\81\15\00\00T\1d\00\00\a1\15\00\00U\1d\00\00\c1\15\00\00V\1d\00\00\e1\15\00\00W\1d\00\00\01\16\00\00X\1d\00\00!\16\00\00Y\1d\00\00A\16\00\00Z\1d\00\00a\16\00\00[\1d\00\00\81\16\00\00\\\1d\00\00\a1\16\00\00]\1d\00\00\c1\16\00\00^\1d\00\00\e1\16\00\00_\1d\00\00\01\17\00\00`\1d\00\00!\17\00\00a\1d\00\00A\17\00\00b\1d\00\00a\17\00\00c\1d\00\00\81\17\00\00d\1d\00\00\a1\17\00\00e\1d\00\00\c1\17\00\00f\1d\00\00\e1\17\00\00g\1d\00\00\01\18\00\00h\1d\00\00!\18\00\00i\1d\00\00A\18\00\00j\1d\00\00a\18\00\00x\1d\00\00\81\18\00\00\9b\1d\00\00\a1\18\00\00\9c\1d\00\00\c1\18\00\00\9d\1d\00\00\e1\18\00\00\9e\1d\00\00\01\19\00\00\9f\1d\00\00!\19\00\00\a0\1d\00\00A\19\00\00\a1\1d\00\00a\19\00\00\a2\1d\00\00\81\19\00\00\a3\1d\00\00\a1\19\00\00\a4\1d\00\00\c1\19\00\00\a5\1d\00\00\e1\19\00\00\a6\1d\00\00\01\1a\00\00\a7\1d\00\00!\1a\00\00\a8\1d\00\00A\1a\00\00\a9\1d\00\00a\1a\00\00\aa\1d\00\00\81\1a\00\00\ab\1d\00\00\a1\1a\00\00\ac\1d\00\00\c1\1a\00\00\ad\1d\00\00\e1\1a\00\00\ae\1d\00\00\01\1b\00\00\af\1d\00\00!\1b\00\00\b0\1d\00\00A\1b\00\00\b1\1d\00\00a\1b\00\00\b2\1d\00\00\81\1b\00\00\b3\1d\00\00\a1\1b\00\00\b4\1d\00\00\c1\1b\00\00\b5\1d\00\00\e1\1b\00\00\b6\1d\00\00\01\1c\00\00\b7\1d\00\00!\1c\00\00\b8\1d\00\00A\1c\00\00\b9\1d\00\00a\1c\00\00\ba\1d\00\00\81\1c\00\00\bb\1d\00\00\a1\1c\00\00\bc\1d\00\00\c1\1c\00\00\bd\1d\00\00\e1\1c\00\00\be\1d\00\00\01\1d\00\00\bf\1d\00\00!\1d\00\00\9a\1e\00\00B\1d\00\00\9b\1e\00\00\82\1d\00\00\bd\1f\00\00\c2\1d\00\00\bf\1f\00\00\02\1e\00\00\c0\1f\00\00B\1e\00\00\c1\1f\00\00\83\1e\00\00\cd\1f\00\00\e3\1e\00\00\ce\1f\00\00C\1f\00\00\cf\1f\00\00\a3\1f\00\00\dd\1f\00\00\03 \00\00\de\1f\00\00c \00\00\df\1f\00\00\c3 \00\00\ed\1f\00\00#!\00\00\ee\1f\00\00\83!\00\00\fd\1f\00\00\e2!\00\00\fe\1f\00\00\"\"\00\00\00 \00\00a\"\00\00\01 \00\00\81\"\00\00\02 \00\00\a1\"\00\00\03 \00\00\c1\"\00\00\04 \00\00\e1\"\00\00\05 \00\00\01#\00\00\06 \00\00!#\00\00\07 \00\00A#\00\00\08 \00\00a#\00\00\t \00\00\81#\00\00\n \00\00\a1#\00\00\11 \00\00\c1#\00\00\17 \00\00\e2#\00\00$ \00\00!$\00\00% \00\00B$\00\00& \00\00\83$\00\00/ \00\00\e1$\00\003 \00\00\02%\00\004 \00\00C%\00\006 \00\00\a2%\00\007 \00\00\e3%\00\00< \00\00B&\00\00> \00\00\82&\00\00G \00\00\c2&\00\00H \00\00\02\'\00\00I \00\00B\'\00\00W \00\00\84\'\00\00_ \00\00\01(\00\00p \00\00!(\00\00q \00\00A(\00\00t \00\00a(\00\00u \00\00\81(\00\00v \00\00\a1(\00\00w \00\00\c1(\00\00x \00\00\e1(\00\00y \00\00\01)\00\00z \00\00!)\00\00{ \00\00A)\00\00| \00\00a)\00\00} \00\00\81)\00\00~ \00\00\a1)\00\00\7f \00\00\c1)\00\00\80 \00\00\e1)\00\00\81 \00\00\01*\00\00\82 \00\00!*\00\00\83 \00\00A*\00\00\84 \00\00a*\00\00\85 \00\00\81*\00\00\86 \00\00\a1*\00\00\87 \00\00\c1*\00\00\88 \00\00\e1*\00\00\89 \00\00\01+\00\00\8a \00\00!+\00\00\8b \00\00A+\00\00\8c \00\00a+\00\00\8d \00\00\81+\00\00\8e \00\00\a1+\00\00\90 \00\00\c1+\00\00\91 \00\00\e1+\00\00\92 \00\00\01,\00\00\93 \00\00!,\00\00\94 \00\00A,\00\00\95 \00\00a,\00\00\96 \00\00\81,\00\00\97 \00\00\a1,\00\00\98 \00\00\c1,\00\00\99 \00\00\e1,\00\00\9a \00\00\01-\00\00\9b \00\00!-\00\00\9c \00\00A-\00\00\a8 \00\00b-\00\00\00!\00\00\a3-\00\00\01!\00\00\03.\00\00\02!\00\00a.\00\00\03!\00\00\82.\00\00\05!\00\00\c3.\00\00\06!\00\00#/\00\00\07!\00\00\81/\00\00\t!\00\00\a2/\00\00\n!\00\00\e1/\00\00\0b!\00\00\010\00\00\0c!\00\00!0\00\00\0d!\00\00A0\00\00\0e!\00\00a0\00\00\0f!\00\00\810\00\00\10!\00\00\a10\00\00\11!\00\00\c10\00\00\12!\00\00\e10\00\00\13!\00\00\011\00\00\15!\00\00!1\00\00\16!\00\00B1\00\00\19!\00\00\811\00\00\1a!\00\00\a11\00\00\1b!\00\00\c11\00\00\1c!\00\00\e11\00\00\1d!\00\00\012\00\00 !\00\00\"2\00\00!!\00\00c2\00\00\"!\00\00\c22\00\00$!\00\00\013\00\00(!\00\00!3\00\00,!\00\00A3\00\00-!\00\00a3\00\00/!\00\00\813\00\000!\00\00\a13\00\001!\00\00\c13\00\003!\00\00\e13\00\004!\00\00\014\00\005!\00\00!4\00\006!\00\00A4\00\007!\00\00a4\00\008!\00\00\814\00\009!\00\00\a14\00\00;!\00\00\c34\00\00<!\00\00!5\00\00=!\00\00A5\00\00>!\00\00a5\00\00?!\00\00\815\00\00@!\00\00\a15\00\00E!\00\00\c15\00\00F!\00\00\e15\00\00G!\00\00\016\00\00H!\00\00!6\00\00I!\00\00A6\00\00P!\00\00c6\00\00Q!\00\00\c36\00\00R!\00\00$7\00\00S!\00\00\a37\00\00T!\00\00\038\00\00U!\00\00c8\00\00V!\00\00\c38\00\00W!\00\00#9\00\00X!\00\00\839\00\00Y!\00\00\e39\00\00Z!\00\00C:\00\00[!\00\00\a3:\00\00\\!\00\00\03;\00\00]!\00\00c;\00\00^!\00\00\c3;\00\00_!\00\00\"<\00\00`!\00\00a<\00\00a!\00\00\82<\00\00b!\00\00\c3<\00\00c!\00\00\"=\00\00d!\00\00a=\00\00e!\00\00\82=\00\00f!\00\00\c3=\00\00g!\00\00$>\00\00h!\00\00\a2>\00\00i!\00\00\e1>\00\00j!\00\00\02?\00\00k!\00\00C?\00\00l!\00\00\a1?\00\00m!\00\00\c1?\00\00n!\00\00\e1?\00\00o!\00\00\01@\00\00p!\00\00!@\00\00q!\00\00B@\00\00r!\00\00\83@\00\00s!\00\00\e2@\00\00t!\00\00!A\00\00u!\00\00BA\00\00v!\00\00\83A\00\00w!\00\00\e4A\00\00x!\00\00bB\00\00y!\00\00\a1B\00\00z!\00\00\c2B\00\00{!\00\00\03C\00\00|!\00\00aC\00\00}!\00\00\81C\00\00~!\00\00\a1C\00\00\7f!\00\00\c1C\00\00\89!\00\00\e3C\00\00,\"\00\00BD\00\00-\"\00\00\83D\00\00/\"\00\00\e2D\00\000\"\00\00#E\00\00`$\00\00\81E\00\00a$\00\00\a1E\00\00b$\00\00\c1E\00\00c$\00\00\e1E\00\00d$\00\00\01F\00\00e$\00\00!F\00\00f$\00\00AF\00\00g$\00\00aF\00\00h$\00\00\81F\00\00i$\00\00\a2F\00\00j$\00\00\e2F\00\00k$\00\00\"G\00\00l$\00\00bG\00\00m$\00\00\a2G\00\00n$\00\00\e2G\00\00o$\00\00\"H\00\00p$\00\00bH\00\00q$\00\00\a2H\00\00r$\00\00\e2H\00\00s$\00\00\"I\00\00t$\00\00cI\00\00u$\00\00\c3I\00\00v$\00\00#J\00\00w$\00\00\83J\00\00x$\00\00\e3J\00\00y$\00\00CK\00\00z$\00\00\a3K\00\00{$\00\00\03L\00\00|$\00\00cL\00\00}$\00\00\c4L\00\00~$\00\00DM\00\00\7f$\00\00\c4M\00\00\80$\00\00DN\00\00\81$\00\00\c4N\00\00\82$\00\00DO\00\00\83$\00\00\c4O\00\00\84$\00\00DP\00\00\85$\00\00\c4P\00\00\86$\00\00DQ\00\00\87$\00\00\c4Q\00\00\88$\00\00BR\00\00\89$\00\00\82R\00\00\8a$\00\00\c2R\00\00\8b$\00\00\02S\00\00\8c$\00\00BS\00\00\8d$\00\00\82S\00\00\8e$\00\00\c2S\00\00\8f$\00\00\02T\00\00\90$\00\00BT\00\00\91$\00\00\83T\00\00\92$\00\00\e3T\00\00\93$\00\00CU\00\00\94$\00\00\a3U\00\00\95$\00\00\03V\00\00\96$\00\00cV\00\00\97$\00\00\c3V\00\00\98$\00\00#W\00\00\99$\00\00\83W\00\00\9a$\00\00\e3W\00\00\9b$\00\00CX\00\00\9c$\00\00\a3X\00\00\9d$\00\00\03Y\00\00\9e$\00\00cY\00\00\9f$\00\00\c3Y\00\00\a0$\00\00#Z\00\00\a1$\00\00\83Z\00\00\a2$\00\00\e3Z\00\00\a3$\00\00C[\00\00\a4$\00\00\a3[\00\00\a5$\00\00\03\\\00\00\a6$\00\00c\\\00\00\a7$\00\00\c3\\\00\00\a8$\00\00#]\00\00\a9$\00\00\83]\00\00\aa$\00\00\e3]\00\00\ab$\00\00C^\00\00\ac$\00\00\a3^\00\00\ad$\00\00\03_\00\00\ae$\00\00c_\00\00\af$\00\00\c3_\00\00\b0$\00\00#`\00\00\b1$\00\00\83`\00\00\b2$\00\00\e3`\00\00\b3$\00\00Ca\00\00\b4$\00\00\a3a\00\00\b5$\00\00\03b\00\00\b6$\00\00ab\00\00\b7$\00\00\81b\00\00\b8$\00\00\a1b\00\00\b9$\00\00\c1b\00\00\ba$\00\00\e1b\00\00\bb$\00\00\01c\00\00\bc$\00\00!c\00\00\bd$\00\00Ac\00\00\be$\00\00ac\00\00\bf$\00\00\81c\00\00\c0$\00\00\a1c\00\00\c1$\00\00\c1c\00\00\c2$\00\00\e1c\00\00\c3$\00\00\01d\00\00\c4$\00\00!d\00\00\c5$\00\00Ad\00\00\c6$\00\00ad\00\00\c7$\00\00\81d\00\00\c8$\00\00\a1d\00\00\c9$\00\00\c1d\00\00\ca$\00\00\e1d\00\00\cb$\00\00\01e\00\00\cc$\00\00!e\00\00\cd$\00\00Ae\00\00\ce$\00\00ae\00\00\cf$\00\00\81e\00\00\d0$\00\00\a1e\00\00\d1$\00\00\c1e\00\00\d2$\00\00\e1e\00\00\d3$\00\00\01f\00\00\d4$\00\00!f\00\00\d5$\00\00Af\00\00\d6$\00\00af\00\00\d7$\00\00\81f\00\00\d8$\00\00\a1f\00\00\d9$\00\00\c1f\00\00\da$\00\00\e1f\00\00\db$\00\00\01g\00\00\dc$\00\00!g\00\00\dd$\00\00Ag\00\00\de$\00\00ag\00\00\df$\00\00\81g\00\00\e0$\00\00\a1g\00\00\e1$\00\00\c1g\00\00\e2$\00\00\e1g\00\00\e3$\00\00\01h\00\00\e4$\00\00!h\00\00\e5$\00\00Ah\00\00\e6$\00\00ah\00\00\e7$\00\00\81h\00\00\e8$\00\00\a1h\00\00\e9$\00\00\c1h\00\00\ea$\00\00\e1h\00\00\0c*\00\00\04i\00\00t*\00\00\83i\00\00u*\00\00\e2i\00\00v*\00\00#j\00\00|,\00\00\81j\00\00},\00\00\a1j\00\00o-\00\00\c1j\00\00\9f.\00\00\e1j\00\00\f3.\00\00\01k\00\00\00/\00\00!k\00\00\01/\00\00Ak\00\00\02/\00\00ak\00\00\03/\00\00\81k\00\00\04/\00\00\a1k\00\00\05/\00\00\c1k\00\00\06/\00\00\e1k\00\00\07/\00\00\01l\00\00\08/\00\00!l\00\00\t/\00\00Al\00\00\n/\00\00al\00\00\0b/\00\00\81l\00\00\0c/\00\00\a1l\00\00\0d/\00\00\c1l\00\00\0e/\00\00\e1l\00\00\0f/\00\00\01m\00\00\10/\00\00!m\00\00\11/\00\00Am\00\00\12/\00\00am\00\00\13/\00\00\81m\00\00\14/\00\00\a1m\00\00\15/\00\00\c1m\00\00\16/\00\00\e1m\00\00\17/\00\00\01n\00\00\18/\00\00!n\00\00\19/\00\00An\00\00\1a/\00\00an\00\00\1b/\00\00\81n\00\00\1c/\00\00\a1n\00\00\1d/\00\00\c1n\00\00\1e/\00\00\e1n\00\00\1f/\00\00\01o\00\00 /\00\00!o\00\00!/\00\00Ao\00\00\"/\00\00ao\00\00#/\00\00\81o\00\00$/\00\00\a1o\00\00%/\00\00\c1o\00\00&/\00\00\e1o\00\00\'/\00\00\01p\00\00(/\00\00!p\00\00)/\00\00Ap\00\00*/\00\00ap\00\00+/\00\00\81p\00\00,/\00\00\a1p\00\00-/\00\00\c1p\00\00./\00\00\e1p\00\00//\00\00\01q\00\000/\00\00!q\00\001/\00\00Aq\00\002/\00\00aq\00\003/\00\00\81q\00\004/\00\00\a1q\00\005/\00\00\c1q\00\006/\00\00\e1q\00\007/\00\00\01r\00\008/\00\00!r\00\009/\00\00Ar\00\00:/\00\00ar\00\00;/\00\00\81r\00\00</\00\00\a1r\00\00=/\00\00\c1r\00\00>/\00\00\e1r\00\00?/\00\00\01s\00\00@/\00\00!s\00\00A/\00\00As\00\00B/\00\00as\00\00C/\00\00\81s\00\00D/\00\00\a1s\00\00E/\00\00\c1s\00\00F/\00\00\e1s\00\00G/\00\00\01t\00\00H/\00\00!t\00\00I/\00\00At\00\00J/\00\00at\00\00K/\00\00\81t\00\00L/\00\00\a1t\00\00M/\00\00\c1t\00\00N/\00\00\e1t\00\00O/\00\00\01u\00\00P/\00\00!u\00\00Q/\00\00Au\00\00R/\00\00au\00\00S/\00\00\81u\00\00T/\00\00\a1u\00\00U/\00\00\c1u\00\00V/\00\00\e1u\00\00W/\00\00\01v\00\00X/\00\00!v\00\00Y/\00\00Av\00\00Z/\00\00av\00\00[/\00\00\81v\00\00\\/\00\00\a1v\00\00]/\00\00\c1v\00\00^/\00\00\e1v\00\00_/\00\00\01w\00\00`/\00\00!w\00\00a/\00\00Aw\00\00b/\00\00aw\00\00c/\00\00\81w\00\00d/\00\00\a1w\00\00e/\00\00\c1w\00\00f/\00\00\e1w\00\00g/\00\00\01x\00\00h/\00\00!x\00\00i/\00\00Ax\00\00j/\00\00ax\00\00k/\00\00\81x\00\00l/\00\00\a1x\00\00m/\00\00\c1x\00\00n/\00\00\e1x\00\00o/\00\00\01y\00\00p/\00\00!y\00\00q/\00\00Ay\00\00r/\00\00ay\00\00s/\00\00\81y\00\00t/\00\00\a1y\00\00u/\00\00\c1y\00\00v/\00\00\e1y\00\00w/\00\00\01z\00\00x/\00\00!z\00\00y/\00\00Az\00\00z/\00\00az\00\00{/\00\00\81z\00\00|/\00\00\a1z\00\00}/\00\00\c1z\00\00~/\00\00\e1z\00\00\7f/\00\00\01{\00\00\80/\00\00!{\00\00\81/\00\00A{\00\00\82/\00\00a{\00\00\83/\00\00\81{\00\00\84/\00\00\a1{\00\00\85/\00\00\c1{\00\00\86/\00\00\e1{\00\00\87/\00\00\01|\00\00\88/\00\00!|\00\00\89/\00\00A|\00\00\8a/\00\00a|\00\00\8b/\00\00\81|\00\00\8c/\00\00\a1|\00\00\8d/\00\00\c1|\00\00\8e/\00\00\e1|\00\00\8f/\00\00\01}\00\00\90/\00\00!}\00\00\91/\00\00A}\00\00\92/\00\00a}\00\00\93/\00\00\81}\00\00\94/\00\00\a1}\00\00\95/\00\00\c1}\00\00\96/\00\00\e1}\00\00\97/\00\00\01~\00\00\98/\00\00!~\00\00\99/\00\00A~\00\00\9a/\00\00a~\00\00\9b/\00\00\81~\00\00\9c/\00\00\a1~\00\00\9d/\00\00\c1~\00\00\9e/\00\00\e1~\00\00\9f/\00\00\01\7f\00\00\a0/\00\00!\7f\00\00\a1/\00\00A\7f\00\00\a2/\00\00a\7f\00\00\a3/\00\00\81\7f\00\00\a4/\00\00\a1\7f\00\00\a5/\00\00\c1\7f\00\00\a6/\00\00\e1\7f\00\00\a7/\00\00\01\80\00\00\a8/\00\00!\80\00\00\a9/\00\00A\80\00\00\aa/\00\00a\80\00\00\ab/\00\00\81\80\00\00\ac/\00\00\a1\80\00\00\ad/\00\00\c1\80\00\00\ae/\00\00\e1\80\00\00\af/\00\00\01\81\00\00\b0/\00\00!\81\00\00\b1/\00\00A\81\00\00\b2/\00\00a\81\00\00\b3/\00\00\81\81\00\00\b4/\00\00\a1\81\00\00\b5/\00\00\c1\81\00\00\b6/\00\00\e1\81\00\00\b7/\00\00\01\82\00\00\b8/\00\00!\82\00\00\b9/\00\00A\82\00\00\ba/\00\00a\82\00\00\bb/\00\00\81\82\00\00\bc/\00\00\a1\82\00\00\bd/\00\00\c1\82\00\00\be/\00\00\e1\82\00\00\bf/\00\00\01\83\00\00\c0/\00\00!\83\00\00\c1/\00\00A\83\00\00\c2/\00\00a\83\00\00\c3/\00\00\81\83\00\00\c4/\00\00\a1\83\00\00\c5/\00\00\c1\83\00\00\c6/\00\00\e1\83\00\00\c7/\00\00\01\84\00\00\c8/\00\00!\84\00\00\c9/\00\00A\84\00\00\ca/\00\00a\84\00\00\cb/\00\00\81\84\00\00\cc/\00\00\a1\84\00\00\cd/\00\00\c1\84\00\00\ce/\00\00\e1\84\00\00\cf/\00\00\01\85\00\00\d0/\00\00!\85\00\00\d1/\00\00A\85\00\00\d2/\00\00a\85\00\00\d3/\00\00\81\85\00\00\d4/\00\00\a1\85\00\00\d5/\00\00\c1\85\00\00\000\00\00\e1\85\00\0060\00\00\01\86\00\0080\00\00!\86\00\0090\00\00A\86\00\00:0\00\00a\86\00\00\9b0\00\00\82\86\00\00\9c0\00\00\c2\86\00\00\9f0\00\00\02\87\00\00\ff0\00\00B\87\00\0011\00\00\81\87\00\0021\00\00\a1\87\00\0031\00\00\c1\87\00\0041\00\00\e1\87\00\0051\00\00\01\88\00\0061\00\00!\88\00\0071\00\00A\88\00\0081\00\00a\88\00\0091\00\00\81\88\00\00:1\00\00\a1\88\00\00;1\00\00\c1\88\00\00<1\00\00\e1\88\00\00=1\00\00\01\89\00\00>1\00\00!\89\00\00?1\00\00A\89\00\00@1\00\00a\89\00\00A1\00\00\81\89\00\00B1\00\00\a1\89\00\00C1\00\00\c1\89\00\00D1\00\00\e1\89\00\00E1\00\00\01\8a\00\00F1\00\00!\8a\00\00G1\00\00A\8a\00\00H1\00\00a\8a\00\00I1\00\00\81\8a\00\00J1\00\00\a1\8a\00\00K1\00\00\c1\8a\00\00L1\00\00\e1\8a\00\00M1\00\00\01\8b\00\00N1\00\00!\8b\00\00O1\00\00A\8b\00\00P1\00\00a\8b\00\00Q1\00\00\81\8b\00\00R1\00\00\a1\8b\00\00S1\00\00\c1\8b\00\00T1\00\00\e1\8b\00\00U1\00\00\01\8c\00\00V1\00\00!\8c\00\00W1\00\00A\8c\00\00X1\00\00a\8c\00\00Y1\00\00\81\8c\00\00Z1\00\00\a1\8c\00\00[1\00\00\c1\8c\00\00\\1\00\00\e1\8c\00\00]1\00\00\01\8d\00\00^1\00\00!\8d\00\00_1\00\00A\8d\00\00`1\00\00a\8d\00\00a1\00\00\81\8d\00\00b1\00\00\a1\8d\00\00c1\00\00\c1\8d\00\00d1\00\00\e1\8d\00\00e1\00\00\01\8e\00\00f1\00\00!\8e\00\00g1\00\00A\8e\00\00h1\00\00a\8e\00\00i1\00\00\81\8e\00\00j1\00\00\a1\8e\00\00k1\00\00\c1\8e\00\00l1\00\00\e1\8e\00\00m1\00\00\01\8f\00\00n1\00\00!\8f\00\00o1\00\00A\8f\00\00p1\00\00a\8f\00\00q1\00\00\81\8f\00\00r1\00\00\a1\8f\00\00s1\00\00\c1\8f\00\00t1\00\00\e1\8f\00\00u1\00\00\01\90\00\00v1\00\00!\90\00\00w1\00\00A\90\00\00x1\00\00a\90\00\00y1\00\00\81\90\00\00z1\00\00\a1\90\00\00{1\00\00\c1\90\00\00|1\00\00\e1\90\00\00}1\00\00\01\91\00\00~1\00\00!\91\00\00\7f1\00\00A\91\00\00\801\00\00a\91\00\00\811\00\00\81\91\00\00\821\00\00\a1\91\00\00\831\00\00\c1\91\00\00\841\00\00\e1\91\00\00\851\00\00\01\92\00\00\861\00\00!\92\00\00\871\00\00A\92\00\00\881\00\00a\92\00\00\891\00\00\81\92\00\00\8a1\00\00\a1\92\00\00\8b1\00\00\c1\92\00\00\8c1\00\00\e1\92\00\00\8d1\00\00\01\93\00\00\8e1\00\00!\93\00\00\921\00\00A\93\00\00\931\00\00a\93\00\00\941\00\00\81\93\00\00\951\00\00\a1\93\00\00\961\00\00\c1\93\00\00\971\00\00\e1\93\00\00\981\00\00\01\94\00\00\991\00\00!\94\00\00\9a1\00\00A\94\00\00\9b1\00\00a\94\00\00\9c1\00\00\81\94\00\00\9d1\00\00\a1\94\00\00\9e1\00\00\c1\94\00\00\9f1\00\00\e1\94\00\00\002\00\00\03\95\00\00\012\00\00c\95\00\00\022\00\00\c3\95\00\00\032\00\00#\96\00\00\042\00\00\83\96\00\00\052\00\00\e3\96\00\00\062\00\00C\97\00\00\072\00\00\a3\97\00\00\082\00\00\03\98\00\00\t2\00\00c\98\00\00\n2\00\00\c3\98\00\00\0b2\00\00#\99\00\00\0c2\00\00\83\99\00\00\0d2\00\00\e3\99\00\00\0e2\00\00D\9a\00\00\0f2\00\00\c4\9a\00\00\102\00\00D\9b\00\00\112\00\00\c4\9b\00\00\122\00\00D\9c\00\00\132\00\00\c4\9c\00\00\142\00\00D\9d\00\00\152\00\00\c4\9d\00\00\162\00\00D\9e\00\00\172\00\00\c4\9e\00\00\182\00\00D\9f\00\00\192\00\00\c4\9f\00\00\1a2\00\00D\a0\00\00\1b2\00\00\c4\a0\00\00\1c2\00\00D\a1\00\00\1d2\00\00\c7\a1\00\00\1e2\00\00\a6\a2\00\00 2\00\00c\a3\00\00!2\00\00\c3\a3\00\00\"2\00\00#\a4\00\00#2\00\00\83\a4\00\00$2\00\00\e3\a4\00\00%2\00\00C\a5\00\00&2\00\00\a3\a5\00\00\'2\00\00\03\a6\00\00(2\00\00c\a6\00\00)2\00\00\c3\a6\00\00*2\00\00#\a7\00\00+2\00\00\83\a7\00\00,2\00\00\e3\a7\00\00-2\00\00C\a8\00\00.2\00\00\a3\a8\00\00/2\00\00\03\a9\00\0002\00\00c\a9\00\0012\00\00\c3\a9\00\0022\00\00#\aa\00\0032\00\00\83\aa\00\0042\00\00\e3\aa\00\0052\00\00C\ab\00\0062\00\00\a3\ab\00\0072\00\00\03\ac\00\0082\00\00c\ac\00\0092\00\00\c3\ac\00\00:2\00\00#\ad\00\00;2\00\00\83\ad\00\00<2\00\00\e3\ad\00\00=2\00\00C\ae\00\00>2\00\00\a3\ae\00\00?2\00\00\03\af\00\00@2\00\00c\af\00\00A2\00\00\c3\af\00\00B2\00\00#\b0\00\00C2\00\00\83\b0\00\00D2\00\00\e1\b0\00\00E2\00\00\01\b1\00\00F2\00\00!\b1\00\00G2\00\00A\b1\00\00P2\00\00c\b1\00\00Q2\00\00\c2\b1\00\00R2\00\00\02\b2\00\00S2\00\00B\b2\00\00T2\00\00\82\b2\00\00U2\00\00\c2\b2\00\00V2\00\00\02\b3\00\00W2\00\00B\b3\00\00X2\00\00\82\b3\00\00Y2\00\00\c2\b3\00\00Z2\00\00\02\b4\00\00[2\00\00B\b4\00\00\\2\00\00\82\b4\00\00]2\00\00\c2\b4\00\00^2\00\00\02\b5\00\00_2\00\00B\b5\00\00`2\00\00\81\b5\00\00a2\00\00\a1\b5\00\00b2\00\00\c1\b5\00\00c2\00\00\e1\b5\00\00d2\00\00\01\b6\00\00e2\00\00!\b6\00\00f2\00\00A\b6\00\00g2\00\00a\b6\00\00h2\00\00\81\b6\00\00i2\00\00\a1\b6\00\00j2\00\00\c1\b6\00\00k2\00\00\e1\b6\00\00l2\00\00\01\b7\00\00m2\00\00!\b7\00\00n2\00\00B\b7\00\00o2\00\00\82\b7\00\00p2\00\00\c2\b7\00\00q2\00\00\02\b8\00\00r2\00\00B\b8\00\00s2\00\00\82\b8\00\00t2\00\00\c2\b8\00\00u2\00\00\02\b9\00\00v2\00\00B\b9\00\00w2\00\00\82\b9\00\00x2\00\00\c2\b9\00\00y2\00\00\02\ba\00\00z2\00\00B\ba\00\00{2\00\00\82\ba\00\00|2\00\00\c5\ba\00\00}2\00\00d\bb\00\00~2\00\00\e2\bb\00\00\802\00\00!\bc\00\00\812\00\00A\bc\00\00\822\00\00a\bc\00\00\832\00\00\81\bc\00\00\842\00\00\a1\bc\00\00\852\00\00\c1\bc\00\00\862\00\00\e1\bc\00\00\872\00\00\01\bd\00\00\882\00\00!\bd\00\00\892\00\00A\bd\00\00\8a2\00\00a\bd\00\00\8b2\00\00\81\bd\00\00\8c2\00\00\a1\bd\00\00\8d2\00\00\c1\bd\00\00\8e2\00\00\e1\bd\00\00\8f2\00\00\01\be\00\00\902\00\00!\be\00\00\912\00\00A\be\00\00\922\00\00a\be\00\00\932\00\00\81\be\00\00\942\00\00\a1\be\00\00\952\00\00\c1\be\00\00\962\00\00\e1\be\00\00\972\00\00\01\bf\00\00\982\00\00!\bf\00\00\992\00\00A\bf\00\00\9a2\00\00a\bf\00\00\9b2\00\00\81\bf\00\00\9c2\00\00\a1\bf\00\00\9d2\00\00\c1\bf\00\00\9e2\00\00\e1\bf\00\00\9f2\00\00\01\c0\00\00\a02\00\00!\c0\00\00\a12\00\00A\c0\00\00\a22\00\00a\c0\00\00\a32\00\00\81\c0\00\00\a42\00\00\a1\c0\00\00\a52\00\00\c1\c0\00\00\a62\00\00\e1\c0\00\00\a72\00\00\01\c1\00\00\a82\00\00!\c1\00\00\a92\00\00A\c1\00\00\aa2\00\00a\c1\00\00\ab2\00\00\81\c1\00\00\ac2\00\00\a1\c1\00\00\ad2\00\00\c1\c1\00\00\ae2\00\00\e1\c1\00\00\af2\00\00\01\c2\00\00\b02\00\00!\c2\00\00\b12\00\00B\c2\00\00\b22\00\00\82\c2\00\00\b32\00\00\c2\c2\00\00\b42\00\00\02\c3\00\00\b52\00\00B\c3\00\00\b62\00\00\82\c3\00\00\b72\00\00\c2\c3\00\00\b82\00\00\02\c4\00\00\b92\00\00B\c4\00\00\ba2\00\00\82\c4\00\00\bb2\00\00\c2\c4\00\00\bc2\00\00\02\c5\00\00\bd2\00\00B\c5\00\00\be2\00\00\82\c5\00\00\bf2\00\00\c2\c5\00\00\c02\00\00\02\c6\00\00\c12\00\00B\c6\00\00\c22\00\00\82\c6\00\00\c32\00\00\c2\c6\00\00\c42\00\00\02\c7\00\00\c52\00\00B\c7\00\00\c62\00\00\82\c7\00\00\c72\00\00\c2\c7\00\00\c82\00\00\02\c8\00\00\c92\00\00C\c8\00\00\ca2\00\00\a3\c8\00\00\cb2\00\00\03\c9\00\00\cc2\00\00b\c9\00\00\cd2\00\00\a3\c9\00\00\ce2\00\00\02\ca\00\00\cf2\00\00C\ca\00\00\d02\00\00\a1\ca\00\00\d12\00\00\c1\ca\00\00\d22\00\00\e1\ca\00\00\d32\00\00\01\cb\00\00\d42\00\00!\cb\00\00\d52\00\00A\cb\00\00\d62\00\00a\cb\00\00\d72\00\00\81\cb\00\00\d82\00\00\a1\cb\00\00\d92\00\00\c1\cb\00\00\da2\00\00\e1\cb\00\00\db2\00\00\01\cc\00\00\dc2\00\00!\cc\00\00\dd2\00\00A\cc\00\00\de2\00\00a\cc\00\00\df2\00\00\81\cc\00\00\e02\00\00\a1\cc\00\00\e12\00\00\c1\cc\00\00\e22\00\00\e1\cc\00\00\e32\00\00\01\cd\00\00\e42\00\00!\cd\00\00\e52\00\00A\cd\00\00\e62\00\00a\cd\00\00\e72\00\00\81\cd\00\00\e82\00\00\a1\cd\00\00\e92\00\00\c1\cd\00\00\ea2\00\00\e1\cd\00\00\eb2\00\00\01\ce\00\00\ec2\00\00!\ce\00\00\ed2\00\00A\ce\00\00\ee2\00\00a\ce\00\00\ef2\00\00\81\ce\00\00\f02\00\00\a1\ce\00\00\f12\00\00\c1\ce\00\00\f22\00\00\e1\ce\00\00\f32\00\00\01\cf\00\00\f42\00\00!\cf\00\00\f52\00\00A\cf\00\00\f62\00\00a\cf\00\00\f72\00\00\81\cf\00\00\f82\00\00\a1\cf\00\00\f92\00\00\c1\cf\00\00\fa2\00\00\e1\cf\00\00\fb2\00\00\01\d0\00\00\fc2\00\00!\d0\00\00\fd2\00\00A\d0\00\00\fe2\00\00a\d0\00\00\ff2\00\00\82\d0\00\00\003\00\00\c5\d0\00\00\013\00\00d\d1\00\00\023\00\00\e5\d1\00\00\033\00\00\83\d2\00\00\043\00\00\e5\d2\00\00\053\00\00\83\d3\00\00\063\00\00\e3\d3\00\00\073\00\00F\d4\00\00\083\00\00\04\d5\00\00\t3\00\00\83\d5\00\00\n3\00\00\e3\d5\00\00\0b3\00\00C\d6\00\00\0c3\00\00\a4\d6\00\00\0d3\00\00$\d7\00\00\0e3\00\00\a4\d7\00\00\0f3\00\00$\d8\00\00\103\00\00\a4\d8\00\00\113\00\00$\d9\00\00\123\00\00\a4\d9\00\00\133\00\00&\da\00\00\143\00\00\e2\da\00\00\153\00\00&\db\00\00\163\00\00\e6\db\00\00\173\00\00\a5\dc\00\00\183\00\00D\dd\00\00\193\00\00\c6\dd\00\00\1a3\00\00\86\de\00\00\1b3\00\00D\df\00\00\1c3\00\00\c3\df\00\00\1d3\00\00#\e0\00\00\1e3\00\00\84\e0\00\00\1f3\00\00\04\e1\00\00 3\00\00\85\e1\00\00!3\00\00%\e2\00\00\"3\00\00\c3\e2\00\00#3\00\00#\e3\00\00$3\00\00\84\e3\00\00%3\00\00\03\e4\00\00&3\00\00c\e4\00\00\'3\00\00\c2\e4\00\00(3\00\00\02\e5\00\00)3\00\00C\e5\00\00*3\00\00\a3\e5\00\00+3\00\00\06\e6\00\00,3\00\00\c4\e6\00\00-3\00\00E\e7\00\00.3\00\00\e6\e7\00\00/3\00\00\a4\e8\00\0003\00\00#\e9\00\0013\00\00\83\e9\00\0023\00\00\e6\e9\00\0033\00\00\a4\ea\00\0043\00\00&\eb\00\0053\00\00\e3\eb\00\0063\00\00E\ec\00\0073\00\00\e3\ec\00\0083\00\00D\ed\00\0093\00\00\c3\ed\00\00:3\00\00$\ee\00\00;3\00\00\a5\ee\00\00<3\00\00D\ef\00\00=3\00\00\c5\ef\00\00>3\00\00d\f0\00\00?3\00\00\e2\f0\00\00@3\00\00%\f1\00\00A3\00\00\c3\f1\00\00B3\00\00#\f2\00\00C3\00\00\84\f2\00\00D3\00\00\03\f3\00\00E3\00\00c\f3\00\00F3\00\00\c3\f3\00\00G3\00\00%\f4\00\00H3\00\00\c4\f4\00\00I3\00\00B\f5\00\00J3\00\00\86\f5\00\00K3\00\00C\f6\00\00L3\00\00\a5\f6\00\00M3\00\00D\f7\00\00N3\00\00\c4\f7\00\00O3\00\00C\f8\00\00P3\00\00\a3\f8\00\00Q3\00\00\04\f9\00\00R3\00\00\82\f9\00\00S3\00\00\c4\f9\00\00T3\00\00E\fa\00\00U3\00\00\e2\fa\00\00V3\00\00&\fb\00\00W3\00\00\e3\fb\00\00X3\00\00B\fc\00\00Y3\00\00\82\fc\00\00Z3\00\00\c2\fc\00\00[3\00\00\02\fd\00\00\\3\00\00B\fd\00\00]3\00\00\82\fd\00\00^3\00\00\c2\fd\00\00_3\00\00\02\fe\00\00`3\00\00B\fe\00\00a3\00\00\82\fe\00\00b3\00\00\c3\fe\00\00c3\00\00#\ff\00\00d3\00\00\83\ff\00\00e3\00\00\e3\ff\00\00f3\00\00C\00\01\00g3\00\00\a3\00\01\00h3\00\00\03\01\01\00i3\00\00c\01\01\00j3\00\00\c3\01\01\00k3\00\00#\02\01\00l3\00\00\83\02\01\00m3\00\00\e3\02\01\00n3\00\00C\03\01\00o3\00\00\a3\03\01\00p3\00\00\03\04\01\00q3\00\00c\04\01\00r3\00\00\c2\04\01\00s3\00\00\02\05\01\00t3\00\00C\05\01\00u3\00\00\a2\05\01\00v3\00\00\e2\05\01\00w3\00\00\"\06\01\00x3\00\00c\06\01\00y3\00\00\c3\06\01\00z3\00\00\"\07\01\00{3\00\00b\07\01\00|3\00\00\a2\07\01\00}3\00\00\e2\07\01\00~3\00\00\"\08\01\00\7f3\00\00d\08\01\00\803\00\00\e2\08\01\00\813\00\00\"\t\01\00\823\00\00b\t\01\00\833\00\00\a2\t\01\00\843\00\00\e2\t\01\00\853\00\00\"\n\01\00\863\00\00b\n\01\00\873\00\00\a2\n\01\00\883\00\00\e3\n\01\00\893\00\00D\0b\01\00\8a3\00\00\c2\0b\01\00\8b3\00\00\02\0c\01\00\8c3\00\00B\0c\01\00\8d3\00\00\82\0c\01\00\8e3\00\00\c2\0c\01\00\8f3\00\00\02\0d\01\00\903\00\00B\0d\01\00\913\00\00\83\0d\01\00\923\00\00\e3\0d\01\00\933\00\00C\0e\01\00\943\00\00\a3\0e\01\00\953\00\00\02\0f\01\00\963\00\00B\0f\01\00\973\00\00\82\0f\01\00\983\00\00\c2\0f\01\00\993\00\00\02\10\01\00\9a3\00\00B\10\01\00\9b3\00\00\82\10\01\00\9c3\00\00\c2\10\01\00\9d3\00\00\02\11\01\00\9e3\00\00B\11\01\00\9f3\00\00\83\11\01\00\a03\00\00\e3\11\01\00\a13\00\00B\12\01\00\a23\00\00\83\12\01\00\a33\00\00\e3\12\01\00\a43\00\00C\13\01\00\a53\00\00\a2\13\01\00\a63\00\00\e3\13\01\00\a73\00\00C\14\01\00\a83\00\00\a4\14\01\00\a93\00\00\"\15\01\00\aa3\00\00c\15\01\00\ab3\00\00\c3\15\01\00\ac3\00\00#\16\01\00\ad3\00\00\83\16\01\00\ae3\00\00\e5\16\01\00\af3\00\00\86\17\01\00\b03\00\00B\18\01\00\b13\00\00\82\18\01\00\b23\00\00\c2\18\01\00\b33\00\00\02\19\01\00\b43\00\00B\19\01\00\b53\00\00\82\19\01\00\b63\00\00\c2\19\01\00\b73\00\00\02\1a\01\00\b83\00\00B\1a\01\00\b93\00\00\82\1a\01\00\ba3\00\00\c2\1a\01\00\bb3\00\00\02\1b\01\00\bc3\00\00B\1b\01\00\bd3\00\00\82\1b\01\00\be3\00\00\c2\1b\01\00\bf3\00\00\02\1c\01\00\c03\00\00B\1c\01\00\c13\00\00\82\1c\01\00\c23\00\00\c4\1c\01\00\c33\00\00B\1d\01\00\c43\00\00\82\1d\01\00\c53\00\00\c2\1d\01\00\c63\00\00\04\1e\01\00\c73\00\00\83\1e\01\00\c83\00\00\e2\1e\01\00\c93\00\00\"\1f\01\00\ca3\00\00b\1f\01\00\cb3\00\00\a2\1f\01\00\cc3\00\00\e2\1f\01\00\cd3\00\00\" \01\00\ce3\00\00b \01\00\cf3\00\00\a2 \01\00\d03\00\00\e2 \01\00\d13\00\00\"!\01\00\d23\00\00c!\01\00\d33\00\00\c2!\01\00\d43\00\00\02\"\01\00\d53\00\00C\"\01\00\d63\00\00\a3\"\01\00\d73\00\00\02#\01\00\d83\00\00D#\01\00\d93\00\00\c3#\01\00\da3\00\00\"$\01\00\db3\00\00b$\01\00\dc3\00\00\a2$\01\00\dd3\00\00\e2$\01\00\de3\00\00#%\01\00\df3\00\00\83%\01\00\e03\00\00\e2%\01\00\e13\00\00\"&\01\00\e23\00\00b&\01\00\e33\00\00\a2&\01\00\e43\00\00\e2&\01\00\e53\00\00\"\'\01\00\e63\00\00b\'\01\00\e73\00\00\a2\'\01\00\e83\00\00\e2\'\01\00\e93\00\00#(\01\00\ea3\00\00\83(\01\00\eb3\00\00\e3(\01\00\ec3\00\00C)\01\00\ed3\00\00\a3)\01\00\ee3\00\00\03*\01\00\ef3\00\00c*\01\00\f03\00\00\c3*\01\00\f13\00\00#+\01\00\f23\00\00\83+\01\00\f33\00\00\e3+\01\00\f43\00\00C,\01\00\f53\00\00\a3,\01\00\f63\00\00\03-\01\00\f73\00\00c-\01\00\f83\00\00\c3-\01\00\f93\00\00#.\01\00\fa3\00\00\83.\01\00\fb3\00\00\e3.\01\00\fc3\00\00C/\01\00\fd3\00\00\a3/\01\00\fe3\00\00\030\01\00\ff3\00\00c0\01\00\9c\a6\00\00\c10\01\00\9d\a6\00\00\e10\01\00p\a7\00\00\011\01\00\f2\a7\00\00!1\01\00\f3\a7\00\00A1\01\00\f4\a7\00\00a1\01\00\f8\a7\00\00\811\01\00\f9\a7\00\00\a11\01\00\\\ab\00\00\c11\01\00]\ab\00\00\e11\01\00^\ab\00\00\012\01\00_\ab\00\00!2\01\00i\ab\00\00A2\01\00\00\fb\00\00b2\01\00\01\fb\00\00\a22\01\00\02\fb\00\00\e22\01\00\03\fb\00\00#3\01\00\04\fb\00\00\833\01\00\05\fb\00\00\e23\01\00\06\fb\00\00\"4\01\00\13\fb\00\00b4\01\00\14\fb\00\00\a24\01\00\15\fb\00\00\e24\01\00\16\fb\00\00\"5\01\00\17\fb\00\00b5\01\00 \fb\00\00\a15\01\00!\fb\00\00\c15\01\00\"\fb\00\00\e15\01\00#\fb\00\00\016\01\00$\fb\00\00!6\01\00%\fb\00\00A6\01\00&\fb\00\00a6\01\00\'\fb\00\00\816\01\00(\fb\00\00\a16\01\00)\fb\00\00\c16\01\00O\fb\00\00\e26\01\00P\fb\00\00!7\01\00Q\fb\00\00A7\01\00R\fb\00\00a7\01\00S\fb\00\00\817\01\00T\fb\00\00\a17\01\00U\fb\00\00\c17\01\00V\fb\00\00\e17\01\00W\fb\00\00\018\01\00X\fb\00\00!8\01\00Y\fb\00\00A8\01\00Z\fb\00\00a8\01\00[\fb\00\00\818\01\00\\\fb\00\00\a18\01\00]\fb\00\00\c18\01\00^\fb\00\00\e18\01\00_\fb\00\00\019\01\00`\fb\00\00!9\01\00a\fb\00\00A9\01\00b\fb\00\00a9\01\00c\fb\00\00\819\01\00d\fb\00\00\a19\01\00e\fb\00\00\c19\01\00f\fb\00\00\e19\01\00g\fb\00\00\01:\01\00h\fb\00\00!:\01\00i\fb\00\00A:\01\00j\fb\00\00a:\01\00k\fb\00\00\81:\01\00l\fb\00\00\a1:\01\00m\fb\00\00\c1:\01\00n\fb\00\00\e1:\01\00o\fb\00\00\01;\01\00p\fb\00\00!;\01\00q\fb\00\00A;\01\00r\fb\00\00a;\01\00s\fb\00\00\81;\01\00t\fb\00\00\a1;\01\00u\fb\00\00\c1;\01\00v\fb\00\00\e1;\01\00w\fb\00\00\01<\01\00x\fb\00\00!<\01\00y\fb\00\00A<\01\00z\fb\00\00a<\01\00{\fb\00\00\81<\01\00|\fb\00\00\a1<\01\00}\fb\00\00\c1<\01\00~\fb\00\00\e1<\01\00\7f\fb\00\00\01=\01\00\80\fb\00\00!=\01\00\81\fb\00\00A=\01\00\82\fb\00\00a=\01\00\83\fb\00\00\81=\01\00\84\fb\00\00\a1=\01\00\85\fb\00\00\c1=\01\00\86\fb\00\00\e1=\01\00\87\fb\00\00\01>\01\00\88\fb\00\00!>\01\00\89\fb\00\00A>\01\00\8a\fb\00\00a>\01\00\8b\fb\00\00\81>\01\00\8c\fb\00\00\a1>\01\00\8d\fb\00\00\c1>\01\00\8e\fb\00\00\e1>\01\00\8f\fb\00\00\01?\01\00\90\fb\00\00!?\01\00\91\fb\00\00A?\01\00\92\fb\00\00a?\01\00\93\fb\00\00\81?\01\00\94\fb\00\00\a1?\01\00\95\fb\00\00\c1?\01\00\96\fb\00\00\e1?\01\00\97\fb\00\00\01@\01\00\98\fb\00\00!@\01\00\99\fb\00\00A@\01\00\9a\fb\00\00a@\01\00\9b\fb\00\00\81@\01\00\9c\fb\00\00\a1@\01\00\9d\fb\00\00\c1@\01\00\9e\fb\00\00\e1@\01\00\9f\fb\00\00\01A\01\00\a0\fb\00\00!A\01\00\a1\fb\00\00AA\01\00\a2\fb\00\00aA\01\00\a3\fb\00\00\81A\01\00\a4\fb\00\00\a2A\01\00\a5\fb\00\00\e2A\01\00\a6\fb\00\00!B\01\00\a7\fb\00\00AB\01\00\a8\fb\00\00aB\01\00\a9\fb\00\00\81B\01\00\aa\fb\00\00\a1B\01\00\ab\fb\00\00\c1B\01\00\ac\fb\00\00\e1B\01\00\ad\fb\00\00\01C\01\00\ae\fb\00\00!C\01\00\af\fb\00\00AC\01\00\b0\fb\00\00bC\01\00\b1\fb\00\00\a2C\01\00\d3\fb\00\00\e1C\01\00\d4\fb\00\00\01D\01\00\d5\fb\00\00!D\01\00\d6\fb\00\00AD\01\00\d7\fb\00\00aD\01\00\d8\fb\00\00\81D\01\00\d9\fb\00\00\a1D\01\00\da\fb\00\00\c1D\01\00\db\fb\00\00\e1D\01\00\dc\fb\00\00\01E\01\00\dd\fb\00\00\"E\01\00\de\fb\00\00aE\01\00\df\fb\00\00\81E\01\00\e0\fb\00\00\a1E\01\00\e1\fb\00\00\c1E\01\00\e2\fb\00\00\e1E\01\00\e3\fb\00\00\01F\01\00\e4\fb\00\00!F\01\00\e5\fb\00\00AF\01\00\e6\fb\00\00aF\01\00\e7\fb\00\00\81F\01\00\e8\fb\00\00\a1F\01\00\e9\fb\00\00\c1F\01\00\ea\fb\00\00\e3F\01\00\eb\fb\00\00CG\01\00\ec\fb\00\00\a3G\01\00\ed\fb\00\00\03H\01\00\ee\fb\00\00cH\01\00\ef\fb\00\00\c3H\01\00\f0\fb\00\00#I\01\00\f1\fb\00\00\83I\01\00\f2\fb\00\00\e3I\01\00\f3\fb\00\00CJ\01\00\f4\fb\00\00\a3J\01\00\f5\fb\00\00\03K\01\00\f6\fb\00\00cK\01\00\f7\fb\00\00\c3K\01\00\f8\fb\00\00#L\01\00\f9\fb\00\00\83L\01\00\fa\fb\00\00\e3L\01\00\fb\fb\00\00CM\01\00\fc\fb\00\00\a1M\01\00\fd\fb\00\00\c1M\01\00\fe\fb\00\00\e1M\01\00\ff\fb\00\00\01N\01\00\00\fc\00\00#N\01\00\01\fc\00\00\83N\01\00\02\fc\00\00\e3N\01\00\03\fc\00\00CO\01\00\04\fc\00\00\a3O\01\00\05\fc\00\00\02P\01\00\06\fc\00\00BP\01\00\07\fc\00\00\82P\01\00\08\fc\00\00\c2P\01\00\t\fc\00\00\02Q\01\00\n\fc\00\00BQ\01\00\0b\fc\00\00\82Q\01\00\0c\fc\00\00\c2Q\01\00\0d\fc\00\00\02R\01\00\0e\fc\00\00BR\01\00\0f\fc\00\00\82R\01\00\10\fc\00\00\c2R\01\00\11\fc\00\00\02S\01\00\12\fc\00\00BS\01\00\13\fc\00\00\82S\01\00\14\fc\00\00\c2S\01\00\15\fc\00\00\02T\01\00\16\fc\00\00BT\01\00\17\fc\00\00\82T\01\00\18\fc\00\00\c2T\01\00\19\fc\00\00\02U\01\00\1a\fc\00\00BU\01\00\1b\fc\00\00\82U\01\00\1c\fc\00\00\c2U\01\00\1d\fc\00\00\02V\01\00\1e\fc\00\00BV\01\00\1f\fc\00\00\82V\01\00 \fc\00\00\c2V\01\00!\fc\00\00\02W\01\00\"\fc\00\00BW\01\00#\fc\00\00\82W\01\00$\fc\00\00\c2W\01\00%\fc\00\00\02X\01\00&\fc\00\00BX\01\00\'\fc\00\00\82X\01\00(\fc\00\00\c2X\01\00)\fc\00\00\02Y\01\00*\fc\00\00BY\01\00+\fc\00\00\82Y\01\00,\fc\00\00\c2Y\01\00-\fc\00\00\02Z\01\00.\fc\00\00BZ\01\00/\fc\00\00\82Z\01\000\fc\00\00\c2Z\01\001\fc\00\00\02[\01\002\fc\00\00B[\01\003\fc\00\00\82[\01\004\fc\00\00\c2[\01\005\fc\00\00\02\\\01\006\fc\00\00B\\\01\007\fc\00\00\82\\\01\008\fc\00\00\c2\\\01\009\fc\00\00\02]\01\00:\fc\00\00B]\01\00;\fc\00\00\82]\01\00<\fc\00\00\c2]\01\00=\fc\00\00\02^\01\00>\fc\00\00B^\01\00?\fc\00\00\82^\01\00@\fc\00\00\c2^\01\00A\fc\00\00\02_\01\00B\fc\00\00B_\01\00C\fc\00\00\82_\01\00D\fc\00\00\c2_\01\00E\fc\00\00\02`\01\00F\fc\00\00B`\01\00G\fc\00\00\82`\01\00H\fc\00\00\c2`\01\00I\fc\00\00\02a\01\00J\fc\00\00Ba\01\00K\fc\00\00\82a\01\00L\fc\00\00\c2a\01\00M\fc\00\00\02b\01\00N\fc\00\00Bb\01\00O\fc\00\00\82b\01\00P\fc\00\00\c2b\01\00Q\fc\00\00\02c\01\00R\fc\00\00Bc\01\00S\fc\00\00\82c\01\00T\fc\00\00\c2c\01\00U\fc\00\00\02d\01\00V\fc\00\00Bd\01\00W\fc\00\00\82d\01\00X\fc\00\00\c2d\01\00Y\fc\00\00\02e\01\00Z\fc\00\00Be\01\00[\fc\00\00\82e\01\00\\\fc\00\00\c2e\01\00]\fc\00\00\02f\01\00^\fc\00\00Cf\01\00_\fc\00\00\a3f\01\00`\fc\00\00\03g\01\00a\fc\00\00cg\01\00b\fc\00\00\c3g\01\00c\fc\00\00#h\01\00d\fc\00\00\83h\01\00e\fc\00\00\e3h\01\00f\fc\00\00Ci\01\00g\fc\00\00\a3i\01\00h\fc\00\00\03j\01\00i\fc\00\00cj\01\00j\fc\00\00\c2j\01\00k\fc\00\00\02k\01\00l\fc\00\00Bk\01\00m\fc\00\00\82k\01\00n\fc\00\00\c2k\01\00o\fc\00\00\02l\01\00p\fc\00\00Bl\01\00q\fc\00\00\82l\01\00r\fc\00\00\c2l\01\00s\fc\00\00\02m\01\00t\fc\00\00Bm\01\00u\fc\00\00\82m\01\00v\fc\00\00\c2m\01\00w\fc\00\00\02n\01\00x\fc\00\00Bn\01\00y\fc\00\00\82n\01\00z\fc\00\00\c2n\01\00{\fc\00\00\02o\01\00|\fc\00\00Bo\01\00}\fc\00\00\82o\01\00~\fc\00\00\c2o\01\00\7f\fc\00\00\02p\01\00\80\fc\00\00Bp\01\00\81\fc\00\00\82p\01\00\82\fc\00\00\c2p\01\00\83\fc\00\00\02q\01\00\84\fc\00\00Bq\01\00\85\fc\00\00\82q\01\00\86\fc\00\00\c2q\01\00\87\fc\00\00\02r\01\00\88\fc\00\00Br\01\00\89\fc\00\00\82r\01\00\8a\fc\00\00\c2r\01\00\8b\fc\00\00\02s\01\00\8c\fc\00\00Bs\01\00\8d\fc\00\00\82s\01\00\8e\fc\00\00\c2s\01\00\8f\fc\00\00\02t\01\00\90\fc\00\00Bt\01\00\91\fc\00\00\82t\01\00\92\fc\00\00\c2t\01\00\93\fc\00\00\02u\01\00\94\fc\00\00Bu\01\00\95\fc\00\00\82u\01\00\96\fc\00\00\c2u\01\00\97\fc\00\00\03v\01\00\98\fc\00\00cv\01\00\99\fc\00\00\c3v\01\00\9a\fc\00\00#w\01\00\9b\fc\00\00\83w\01\00\9c\fc\00\00\e2w\01\00\9d\fc\00\00\"x\01\00\9e\fc\00\00bx\01\00\9f\fc\00\00\a2x\01\00\a0\fc\00\00\e2x\01\00\a1\fc\00\00\"y\01\00\a2\fc\00\00by\01\00\a3\fc\00\00\a2y\01\00\a4\fc\00\00\e2y\01\00\a5\fc\00\00\"z\01\00\a6\fc\00\00bz\01\00\a7\fc\00\00\a2z\01\00\a8\fc\00\00\e2z\01\00\a9\fc\00\00\"{\01\00\aa\fc\00\00b{\01\00\ab\fc\00\00\a2{\01\00\ac\fc\00\00\e2{\01\00\ad\fc\00\00\"|\01\00\ae\fc\00\00b|\01\00\af\fc\00\00\a2|\01\00\b0\fc\00\00\e2|\01\00\b1\fc\00\00\"}\01\00\b2\fc\00\00b}\01\00\b3\fc\00\00\a2}\01\00\b4\fc\00\00\e2}\01\00\b5\fc\00\00\"~\01\00\b6\fc\00\00b~\01\00\b7\fc\00\00\a2~\01\00\b8\fc\00\00\e2~\01\00\b9\fc\00\00\"\7f\01\00\ba\fc\00\00b\7f\01\00\bb\fc\00\00\a2\7f\01\00\bc\fc\00\00\e2\7f\01\00\bd\fc\00\00\"\80\01\00\be\fc\00\00b\80\01\00\bf\fc\00\00\a2\80\01\00\c0\fc\00\00\e2\80\01\00\c1\fc\00\00\"\81\01\00\c2\fc\00\00b\81\01\00\c3\fc\00\00\a2\81\01\00\c4\fc\00\00\e2\81\01\00\c5\fc\00\00\"\82\01\00\c6\fc\00\00b\82\01\00\c7\fc\00\00\a2\82\01\00\c8\fc\00\00\e2\82\01\00\c9\fc\00\00\"\83\01\00\ca\fc\00\00b\83\01\00\cb\fc\00\00\a2\83\01\00\cc\fc\00\00\e2\83\01\00\cd\fc\00\00\"\84\01\00\ce\fc\00\00b\84\01\00\cf\fc\00\00\a2\84\01\00\d0\fc\00\00\e2\84\01\00\d1\fc\00\00\"\85\01\00\d2\fc\00\00b\85\01\00\d3\fc\00\00\a2\85\01\00\d4\fc\00\00\e2\85\01\00\d5\fc\00\00\"\86\01\00\d6\fc\00\00b\86\01\00\d7\fc\00\00\a2\86\01\00\d8\fc\00\00\e2\86\01\00\d9\fc\00\00\"\87\01\00\da\fc\00\00b\87\01\00\db\fc\00\00\a2\87\01\00\dc\fc\00\00\e2\87\01\00\dd\fc\00\00\"\88\01\00\de\fc\00\00b\88\01\00\df\fc\00\00\a3\88\01\00\e0\fc\00\00\03\89\01\00\e1\fc\00\00b\89\01\00\e2\fc\00\00\a2\89\01\00\e3\fc\00\00\e2\89\01\00\e4\fc\00\00\"\8a\01\00\e5\fc\00\00b\8a\01\00\e6\fc\00\00\a2\8a\01\00\e7\fc\00\00\e2\8a\01\00\e8\fc\00\00\"\8b\01\00\e9\fc\00\00b\8b\01\00\ea\fc\00\00\a2\8b\01\00\eb\fc\00\00\e2\8b\01\00\ec\fc\00\00\"\8c\01\00\ed\fc\00\00b\8c\01\00\ee\fc\00\00\a2\8c\01\00\ef\fc\00\00\e2\8c\01\00\f0\fc\00\00\"\8d\01\00\f1\fc\00\00b\8d\01\00\f2\fc\00\00\a3\8d\01\00\f3\fc\00\00\03\8e\01\00\f4\fc\00\00c\8e\01\00\f5\fc\00\00\c2\8e\01\00\f6\fc\00\00\02\8f\01\00\f7\fc\00\00B\8f\01\00\f8\fc\00\00\82\8f\01\00\f9\fc\00\00\c2\8f\01\00\fa\fc\00\00\02\90\01\00\fb\fc\00\00B\90\01\00\fc\fc\00\00\82\90\01\00\fd\fc\00\00\c2\90\01\00\fe\fc\00\00\02\91\01\00\ff\fc\00\00B\91\01\00\00\fd\00\00\82\91\01\00\01\fd\00\00\c2\91\01\00\02\fd\00\00\02\92\01\00\03\fd\00\00B\92\01\00\04\fd\00\00\82\92\01\00\05\fd\00\00\c2\92\01\00\06\fd\00\00\02\93\01\00\07\fd\00\00B\93\01\00\08\fd\00\00\82\93\01\00\t\fd\00\00\c2\93\01\00\n\fd\00\00\02\94\01\00\0b\fd\00\00B\94\01\00\0c\fd\00\00\82\94\01\00\0d\fd\00\00\c2\94\01\00\0e\fd\00\00\02\95\01\00\0f\fd\00\00B\95\01\00\10\fd\00\00\82\95\01\00\11\fd\00\00\c2\95\01\00\12\fd\00\00\02\96\01\00\13\fd\00\00B\96\01\00\14\fd\00\00\82\96\01\00\15\fd\00\00\c2\96\01\00\16\fd\00\00\02\97\01\00\17\fd\00\00B\97\01\00\18\fd\00\00\82\97\01\00\19\fd\00\00\c2\97\01\00\1a\fd\00\00\02\98\01\00\1b\fd\00\00B\98\01\00\1c\fd\00\00\82\98\01\00\1d\fd\00\00\c2\98\01\00\1e\fd\00\00\02\99\01\00\1f\fd\00\00B\99\01\00 \fd\00\00\82\99\01\00!\fd\00\00\c2\99\01\00\"\fd\00\00\02\9a\01\00#\fd\00\00B\9a\01\00$\fd\00\00\82\9a\01\00%\fd\00\00\c2\9a\01\00&\fd\00\00\02\9b\01\00\'\fd\00\00B\9b\01\00(\fd\00\00\82\9b\01\00)\fd\00\00\c2\9b\01\00*\fd\00\00\02\9c\01\00+\fd\00\00B\9c\01\00,\fd\00\00\82\9c\01\00-\fd\00\00\c2\9c\01\00.\fd\00\00\02\9d\01\00/\fd\00\00B\9d\01\000\fd\00\00\82\9d\01\001\fd\00\00\c2\9d\01\002\fd\00\00\02\9e\01\003\fd\00\00B\9e\01\004\fd\00\00\82\9e\01\005\fd\00\00\c2\9e\01\006\fd\00\00\02\9f\01\007\fd\00\00B\9f\01\008\fd\00\00\82\9f\01\009\fd\00\00\c2\9f\01\00:\fd\00\00\02\a0\01\00;\fd\00\00B\a0\01\00<\fd\00\00\82\a0\01\00=\fd\00\00\c2\a0\01\00P\fd\00\00\03\a1\01\00Q\fd\00\00c\a1\01\00R\fd\00\00\c3\a1\01\00S\fd\00\00#\a2\01\00T\fd\00\00\83\a2\01\00U\fd\00\00\e3\a2\01\00V\fd\00\00C\a3\01\00W\fd\00\00\a3\a3\01\00X\fd\00\00\03\a4\01\00Y\fd\00\00c\a4\01\00Z\fd\00\00\c3\a4\01\00[\fd\00\00#\a5\01\00\\\fd\00\00\83\a5\01\00]\fd\00\00\e3\a5\01\00^\fd\00\00C\a6\01\00_\fd\00\00\a3\a6\01\00`\fd\00\00\03\a7\01\00a\fd\00\00c\a7\01\00b\fd\00\00\c3\a7\01\00c\fd\00\00#\a8\01\00d\fd\00\00\83\a8\01\00e\fd\00\00\e3\a8\01\00f\fd\00\00C\a9\01\00g\fd\00\00\a3\a9\01\00h\fd\00\00\03\aa\01\00i\fd\00\00c\aa\01\00j\fd\00\00\c3\aa\01\00k\fd\00\00#\ab\01\00l\fd\00\00\83\ab\01\00m\fd\00\00\e3\ab\01\00n\fd\00\00C\ac\01\00o\fd\00\00\a3\ac\01\00p\fd\00\00\03\ad\01\00q\fd\00\00c\ad\01\00r\fd\00\00\c3\ad\01\00s\fd\00\00#\ae\01\00t\fd\00\00\83\ae\01\00u\fd\00\00\e3\ae\01\00v\fd\00\00C\af\01\00w\fd\00\00\a3\af\01\00x\fd\00\00\03\b0\01\00y\fd\00\00c\b0\01\00z\fd\00\00\c3\b0\01\00{\fd\00\00#\b1\01\00|\fd\00\00\83\b1\01\00}\fd\00\00\e3\b1\01\00~\fd\00\00C\b2\01\00\7f\fd\00\00\a3\b2\01\00\80\fd\00\00\03\b3\01\00\81\fd\00\00c\b3\01\00\82\fd\00\00\c3\b3\01\00\83\fd\00\00#\b4\01\00\84\fd\00\00\83\b4\01\00\85\fd\00\00\e3\b4\01\00\86\fd\00\00C\b5\01\00\87\fd\00\00\a3\b5\01\00\88\fd\00\00\03\b6\01\00\89\fd\00\00c\b6\01\00\8a\fd\00\00\c3\b6\01\00\8b\fd\00\00#\b7\01\00\8c\fd\00\00\83\b7\01\00\8d\fd\00\00\e3\b7\01\00\8e\fd\00\00C\b8\01\00\8f\fd\00\00\a3\b8\01\00\92\fd\00\00\03\b9\01\00\93\fd\00\00c\b9\01\00\94\fd\00\00\c3\b9\01\00\95\fd\00\00#\ba\01\00\96\fd\00\00\83\ba\01\00\97\fd\00\00\e3\ba\01\00\98\fd\00\00C\bb\01\00\99\fd\00\00\a3\bb\01\00\9a\fd\00\00\03\bc\01\00\9b\fd\00\00c\bc\01\00\9c\fd\00\00\c3\bc\01\00\9d\fd\00\00#\bd\01\00\9e\fd\00\00\83\bd\01\00\9f\fd\00\00\e3\bd\01\00\a0\fd\00\00C\be\01\00\a1\fd\00\00\a3\be\01\00\a2\fd\00\00\03\bf\01\00\a3\fd\00\00c\bf\01\00\a4\fd\00\00\c3\bf\01\00\a5\fd\00\00#\c0\01\00\a6\fd\00\00\83\c0\01\00\a7\fd\00\00\e3\c0\01\00\a8\fd\00\00C\c1\01\00\a9\fd\00\00\a3\c1\01\00\aa\fd\00\00\03\c2\01\00\ab\fd\00\00c\c2\01\00\ac\fd\00\00\c3\c2\01\00\ad\fd\00\00#\c3\01\00\ae\fd\00\00\83\c3\01\00\af\fd\00\00\e3\c3\01\00\b0\fd\00\00C\c4\01\00\b1\fd\00\00\a3\c4\01\00\b2\fd\00\00\03\c5\01\00\b3\fd\00\00c\c5\01\00\b4\fd\00\00\c3\c5\01\00\b5\fd\00\00#\c6\01\00\b6\fd\00\00\83\c6\01\00\b7\fd\00\00\e3\c6\01\00\b8\fd\00\00C\c7\01\00\b9\fd\00\00\a3\c7\01\00\ba\fd\00\00\03\c8\01\00\bb\fd\00\00c\c8\01\00\bc\fd\00\00\c3\c8\01\00\bd\fd\00\00#\c9\01\00\be\fd\00\00\83\c9\01\00\bf\fd\00\00\e3\c9\01\00\c0\fd\00\00C\ca\01\00\c1\fd\00\00\a3\ca\01\00\c2\fd\00\00\03\cb\01\00\c3\fd\00\00c\cb\01\00\c4\fd\00\00\c3\cb\01\00\c5\fd\00\00#\cc\01\00\c6\fd\00\00\83\cc\01\00\c7\fd\00\00\e3\cc\01\00\f0\fd\00\00C\cd\01\00\f1\fd\00\00\a3\cd\01\00\f2\fd\00\00\04\ce\01\00\f3\fd\00\00\84\ce\01\00\f4\fd\00\00\04\cf\01\00\f5\fd\00\00\84\cf\01\00\f6\fd\00\00\04\d0\01\00\f7\fd\00\00\84\d0\01\00\f8\fd\00\00\04\d1\01\00\f9\fd\00\00\83\d1\01\00\fa\fd\00\00\f2\d1\01\00\fb\fd\00\00(\d4\01\00\fc\fd\00\00$\d5\01\00\10\fe\00\00\a1\d5\01\00\11\fe\00\00\c1\d5\01\00\12\fe\00\00\e1\d5\01\00\13\fe\00\00\01\d6\01\00\14\fe\00\00!\d6\01\00\15\fe\00\00A\d6\01\00\16\fe\00\00a\d6\01\00\17\fe\00\00\81\d6\01\00\18\fe\00\00\a1\d6\01\00\19\fe\00\00\c3\d6\01\000\fe\00\00\"\d7\01\001\fe\00\00a\d7\01\002\fe\00\00\81\d7\01\003\fe\00\00\a1\d7\01\004\fe\00\00\c1\d7\01\005\fe\00\00\e1\d7\01\006\fe\00\00\01\d8\01\007\fe\00\00!\d8\01\008\fe\00\00A\d8\01\009\fe\00\00a\d8\01\00:\fe\00\00\81\d8\01\00;\fe\00\00\a1\d8\01\00<\fe\00\00\c1\d8\01\00=\fe\00\00\e1\d8\01\00>\fe\00\00\01\d9\01\00?\fe\00\00!\d9\01\00@\fe\00\00A\d9\01\00A\fe\00\00a\d9\01\00B\fe\00\00\81\d9\01\00C\fe\00\00\a1\d9\01\00D\fe\00\00\c1\d9\01\00G\fe\00\00\e1\d9\01\00H\fe\00\00\01\da\01\00I\fe\00\00\"\da\01\00J\fe\00\00b\da\01\00K\fe\00\00\a2\da\01\00L\fe\00\00\e2\da\01\00M\fe\00\00!\db\01\00N\fe\00\00A\db\01\00O\fe\00\00a\db\01\00P\fe\00\00\81\db\01\00Q\fe\00\00\a1\db\01\00R\fe\00\00\c1\db\01\00T\fe\00\00\e1\db\01\00U\fe\00\00\01\dc\01\00V\fe\00\00!\dc\01\00W\fe\00\00A\dc\01\00X\fe\00\00a\dc\01\00Y\fe\00\00\81\dc\01\00Z\fe\00\00\a1\dc\01\00[\fe\00\00\c1\dc\01\00\\\fe\00\00\e1\dc\01\00]\fe\00\00\01\dd\01\00^\fe\00\00!\dd\01\00_\fe\00\00A\dd\01\00`\fe\00\00a\dd\01\00a\fe\00\00\81\dd\01\00b\fe\00\00\a1\dd\01\00c\fe\00\00\c1\dd\01\00d\fe\00\00\e1\dd\01\00e\fe\00\00\01\de\01\00f\fe\00\00!\de\01\00h\fe\00\00A\de\01\00i\fe\00\00a\de\01\00j\fe\00\00\81\de\01\00k\fe\00\00\a1\de\01\00p\fe\00\00\c2\de\01\00q\fe\00\00\02\df\01\00r\fe\00\00B\df\01\00t\fe\00\00\82\df\01\00v\fe\00\00\c2\df\01\00w\fe\00\00\02\e0\01\00x\fe\00\00B\e0\01\00y\fe\00\00\82\e0\01\00z\fe\00\00\c2\e0\01\00{\fe\00\00\02\e1\01\00|\fe\00\00B\e1\01\00}\fe\00\00\82\e1\01\00~\fe\00\00\c2\e1\01\00\7f\fe\00\00\02\e2\01\00\80\fe\00\00A\e2\01\00\81\fe\00\00b\e2\01\00\82\fe\00\00\a2\e2\01\00\83\fe\00\00\e2\e2\01\00\84\fe\00\00\"\e3\01\00\85\fe\00\00b\e3\01\00\86\fe\00\00\a2\e3\01\00\87\fe\00\00\e2\e3\01\00\88\fe\00\00\"\e4\01\00\89\fe\00\00b\e4\01\00\8a\fe\00\00\a2\e4\01\00\8b\fe\00\00\e2\e4\01\00\8c\fe\00\00\"\e5\01\00\8d\fe\00\00a\e5\01\00\8e\fe\00\00\81\e5\01\00\8f\fe\00\00\a1\e5\01\00\90\fe\00\00\c1\e5\01\00\91\fe\00\00\e1\e5\01\00\92\fe\00\00\01\e6\01\00\93\fe\00\00!\e6\01\00\94\fe\00\00A\e6\01\00\95\fe\00\00a\e6\01\00\96\fe\00\00\81\e6\01\00\97\fe\00\00\a1\e6\01\00\98\fe\00\00\c1\e6\01\00\99\fe\00\00\e1\e6\01\00\9a\fe\00\00\01\e7\01\00\9b\fe\00\00!\e7\01\00\9c\fe\00\00A\e7\01\00\9d\fe\00\00a\e7\01\00\9e\fe\00\00\81\e7\01\00\9f\fe\00\00\a1\e7\01\00\a0\fe\00\00\c1\e7\01\00\a1\fe\00\00\e1\e7\01\00\a2\fe\00\00\01\e8\01\00\a3\fe\00\00!\e8\01\00\a4\fe\00\00A\e8\01\00\a5\fe\00\00a\e8\01\00\a6\fe\00\00\81\e8\01\00\a7\fe\00\00\a1\e8\01\00\a8\fe\00\00\c1\e8\01\00\a9\fe\00\00\e1\e8\01\00\aa\fe\00\00\01\e9\01\00\ab\fe\00\00!\e9\01\00\ac\fe\00\00A\e9\01\00\ad\fe\00\00a\e9\01\00\ae\fe\00\00\81\e9\01\00\af\fe\00\00\a1\e9\01\00\b0\fe\00\00\c1\e9\01\00\b1\fe\00\00\e1\e9\01\00\b2\fe\00\00\01\ea\01\00\b3\fe\00\00!\ea\01\00\b4\fe\00\00A\ea\01\00\b5\fe\00\00a\ea\01\00\b6\fe\00\00\81\ea\01\00\b7\fe\00\00\a1\ea\01\00\b8\fe\00\00\c1\ea\01\00\b9\fe\00\00\e1\ea\01\00\ba\fe\00\00\01\eb\01\00\bb\fe\00\00!\eb\01\00\bc\fe\00\00A\eb\01\00\bd\fe\00\00a\eb\01\00\be\fe\00\00\81\eb\01\00\bf\fe\00\00\a1\eb\01\00\c0\fe\00\00\c1\eb\01\00\c1\fe\00\00\e1\eb\01\00\c2\fe\00\00\01\ec\01\00\c3\fe\00\00!\ec\01\00\c4\fe\00\00A\ec\01\00\c5\fe\00\00a\ec\01\00\c6\fe\00\00\81\ec\01\00\c7\fe\00\00\a1\ec\01\00\c8\fe\00\00\c1\ec\01\00\c9\fe\00\00\e1\ec\01\00\ca\fe\00\00\01\ed\01\00\cb\fe\00\00!\ed\01\00\cc\fe\00\00A\ed\01\00\cd\fe\00\00a\ed\01\00\ce\fe\00\00\81\ed\01\00\cf\fe\00\00\a1\ed\01\00\d0\fe\00\00\c1\ed\01\00\d1\fe\00\00\e1\ed\01\00\d2\fe\00\00\01\ee\01\00\d3\fe\00\00!\ee\01\00\d4\fe\00\00A\ee\01\00\d5\fe\00\00a\ee\01\00\d6\fe\00\00\81\ee\01\00\d7\fe\00\00\a1\ee\01\00\d8\fe\00\00\c1\ee\01\00\d9\fe\00\00\e1\ee\01\00\da\fe\00\00\01\ef\01\00\db\fe\00\00!\ef\01\00\dc\fe\00\00A\ef\01\00\dd\fe\00\00a\ef\01\00\de\fe\00\00\81\ef\01\00\df\fe\00\00\a1\ef\01\00\e0\fe\00\00\c1\ef\01\00\e1\fe\00\00\e1\ef\01\00\e2\fe\00\00\01\f0\01\00\e3\fe\00\00!\f0\01\00\e4\fe\00\00A\f0\01\00\e5\fe\00\00a\f0\01\00\e6\fe\00\00\81\f0\01\00\e7\fe\00\00\a1\f0\01\00\e8\fe\00\00\c1\f0\01\00\e9\fe\00\00\e1\f0\01\00\ea\fe\00\00\01\f1\01\00\eb\fe\00\00!\f1\01\00\ec\fe\00\00A\f1\01\00\ed\fe\00\00a\f1\01\00\ee\fe\00\00\81\f1\01\00\ef\fe\00\00\a1\f1\01\00\f0\fe\00\00\c1\f1\01\00\f1\fe\00\00\e1\f1\01\00\f2\fe\00\00\01\f2\01\00\f3\fe\00\00!\f2\01\00\f4\fe\00\00A\f2\01\00\f5\fe\00\00c\f2\01\00\f6\fe\00\00\c3\f2\01\00\f7\fe\00\00#\f3\01\00\f8\fe\00\00\83\f3\01\00\f9\fe\00\00\e3\f3\01\00\fa\fe\00\00C\f4\01\00\fb\fe\00\00\a2\f4\01\00\fc\fe\00\00\e2\f4\01\00\01\ff\00\00!\f5\01\00\02\ff\00\00A\f5\01\00\03\ff\00\00a\f5\01\00\04\ff\00\00\81\f5\01\00\05\ff\00\00\a1\f5\01\00\06\ff\00\00\c1\f5\01\00\07\ff\00\00\e1\f5\01\00\08\ff\00\00\01\f6\01\00\t\ff\00\00!\f6\01\00\n\ff\00\00A\f6\01\00\0b\ff\00\00a\f6\01\00\0c\ff\00\00\81\f6\01\00\0d\ff\00\00\a1\f6\01\00\0e\ff\00\00\c1\f6\01\00\0f\ff\00\00\e1\f6\01\00\10\ff\00\00\01\f7\01\00\11\ff\00\00!\f7\01\00\12\ff\00\00A\f7\01\00\13\ff\00\00a\f7\01\00\14\ff\00\00\81\f7\01\00\15\ff\00\00\a1\f7\01\00\16\ff\00\00\c1\f7\01\00\17\ff\00\00\e1\f7\01\00\18\ff\00\00\01\f8\01\00\19\ff\00\00!\f8\01\00\1a\ff\00\00A\f8\01\00\1b\ff\00\00a\f8\01\00\1c\ff\00\00\81\f8\01\00\1d\ff\00\00\a1\f8\01\00\1e\ff\00\00\c1\f8\01\00\1f\ff\00\00\e1\f8\01\00 \ff\00\00\01\f9\01\00!\ff\00\00!\f9\01\00\"\ff\00\00A\f9\01\00#\ff\00\00a\f9\01\00$\ff\00\00\81\f9\01\00%\ff\00\00\a1\f9\01\00&\ff\00\00\c1\f9\01\00\'\ff\00\00\e1\f9\01\00(\ff\00\00\01\fa\01\00)\ff\00\00!\fa\01\00*\ff\00\00A\fa\01\00+\ff\00\00a\fa\01\00,\ff\00\00\81\fa\01\00-\ff\00\00\a1\fa\01\00.\ff\00\00\c1\fa\01\00/\ff\00\00\e1\fa\01\000\ff\00\00\01\fb\01\001\ff\00\00!\fb\01\002\ff\00\00A\fb\01\003\ff\00\00a\fb\01\004\ff\00\00\81\fb\01\005\ff\00\00\a1\fb\01\006\ff\00\00\c1\fb\01\007\ff\00\00\e1\fb\01\008\ff\00\00\01\fc\01\009\ff\00\00!\fc\01\00:\ff\00\00A\fc\01\00;\ff\00\00a\fc\01\00<\ff\00\00\81\fc\01\00=\ff\00\00\a1\fc\01\00>\ff\00\00\c1\fc\01\00?\ff\00\00\e1\fc\01\00@\ff\00\00\01\fd\01\00A\ff\00\00!\fd\01\00B\ff\00\00A\fd\01\00C\ff\00\00a\fd\01\00D\ff\00\00\81\fd\01\00E\ff\00\00\a1\fd\01\00F\ff\00\00\c1\fd\01\00G\ff\00\00\e1\fd\01\00H\ff\00\00\01\fe\01\00I\ff\00\00!\fe\01\00J\ff\00\00A\fe\01\00K\ff\00\00a\fe\01\00L\ff\00\00\81\fe\01\00M\ff\00\00\a1\fe\01\00N\ff\00\00\c1\fe\01\00O\ff\00\00\e1\fe\01\00P\ff\00\00\01\ff\01\00Q\ff\00\00!\ff\01\00R\ff\00\00A\ff\01\00S\ff\00\00a\ff\01\00T\ff\00\00\81\ff\01\00U\ff\00\00\a1\ff\01\00V\ff\00\00\c1\ff\01\00W\ff\00\00\e1\ff\01\00X\ff\00\00\01\00\02\00Y\ff\00\00!\00\02\00Z\ff\00\00A\00\02\00[\ff\00\00a\00\02\00\\\ff\00\00\81\00\02\00]\ff\00\00\a1\00\02\00^\ff\00\00\c1\00\02\00_\ff\00\00\e1\00\02\00`\ff\00\00\01\01\02\00a\ff\00\00!\01\02\00b\ff\00\00A\01\02\00c\ff\00\00a\01\02\00d\ff\00\00\81\01\02\00e\ff\00\00\a1\01\02\00f\ff\00\00\c1\01\02\00g\ff\00\00\e1\01\02\00h\ff\00\00\01\02\02\00i\ff\00\00!\02\02\00j\ff\00\00A\02\02\00k\ff\00\00a\02\02\00l\ff\00\00\81\02\02\00m\ff\00\00\a1\02\02\00n\ff\00\00\c1\02\02\00o\ff\00\00\e1\02\02\00p\ff\00\00\01\03\02\00q\ff\00\00!\03\02\00r\ff\00\00A\03\02\00s\ff\00\00a\03\02\00t\ff\00\00\81\03\02\00u\ff\00\00\a1\03\02\00v\ff\00\00\c1\03\02\00w\ff\00\00\e1\03\02\00x\ff\00\00\01\04\02\00y\ff\00\00!\04\02\00z\ff\00\00A\04\02\00{\ff\00\00a\04\02\00|\ff\00\00\81\04\02\00}\ff\00\00\a1\04\02\00~\ff\00\00\c1\04\02\00\7f\ff\00\00\e1\04\02\00\80\ff\00\00\01\05\02\00\81\ff\00\00!\05\02\00\82\ff\00\00A\05\02\00\83\ff\00\00a\05\02\00\84\ff\00\00\81\05\02\00\85\ff\00\00\a1\05\02\00\86\ff\00\00\c1\05\02\00\87\ff\00\00\e1\05\02\00\88\ff\00\00\01\06\02\00\89\ff\00\00!\06\02\00\8a\ff\00\00A\06\02\00\8b\ff\00\00a\06\02\00\8c\ff\00\00\81\06\02\00\8d\ff\00\00\a1\06\02\00\8e\ff\00\00\c1\06\02\00\8f\ff\00\00\e1\06\02\00\90\ff\00\00\01\07\02\00\91\ff\00\00!\07\02\00\92\ff\00\00A\07\02\00\93\ff\00\00a\07\02\00\94\ff\00\00\81\07\02\00\95\ff\00\00\a1\07\02\00\96\ff\00\00\c1\07\02\00\97\ff\00\00\e1\07\02\00\98\ff\00\00\01\08\02\00\99\ff\00\00!\08\02\00\9a\ff\00\00A\08\02\00\9b\ff\00\00a\08\02\00\9c\ff\00\00\81\08\02\00\9d\ff\00\00\a1\08\02\00\9e\ff\00\00\c1\08\02\00\9f\ff\00\00\e1\08\02\00\a0\ff\00\00\01\t\02\00\a1\ff\00\00!\t\02\00\a2\ff\00\00A\t\02\00\a3\ff\00\00a\t\02\00\a4\ff\00\00\81\t\02\00\a5\ff\00\00\a1\t\02\00\a6\ff\00\00\c1\t\02\00\a7\ff\00\00\e1\t\02\00\a8\ff\00\00\01\n\02\00\a9\ff\00\00!\n\02\00\aa\ff\00\00A\n\02\00\ab\ff\00\00a\n\02\00\ac\ff\00\00\81\n\02\00\ad\ff\00\00\a1\n\02\00\ae\ff\00\00\c1\n\02\00\af\ff\00\00\e1\n\02\00\b0\ff\00\00\01\0b\02\00\b1\ff\00\00!\0b\02\00\b2\ff\00\00A\0b\02\00\b3\ff\00\00a\0b\02\00\b4\ff\00\00\81\0b\02\00\b5\ff\00\00\a1\0b\02\00\b6\ff\00\00\c1\0b\02\00\b7\ff\00\00\e1\0b\02\00\b8\ff\00\00\01\0c\02\00\b9\ff\00\00!\0c\02\00\ba\ff\00\00A\0c\02\00\bb\ff\00\00a\0c\02\00\bc\ff\00\00\81\0c\02\00\bd\ff\00\00\a1\0c\02\00\be\ff\00\00\c1\0c\02\00\c2\ff\00\00\e1\0c\02\00\c3\ff\00\00\01\0d\02\00\c4\ff\00\00!\0d\02\00\c5\ff\00\00A\0d\02\00\c6\ff\00\00a\0d\02\00\c7\ff\00\00\81\0d\02\00\ca\ff\00\00\a1\0d\02\00\cb\ff\00\00\c1\0d\02\00\cc\ff\00\00\e1\0d\02\00\cd\ff\00\00\01\0e\02\00\ce\ff\00\00!\0e\02\00\cf\ff\00\00A\0e\02\00\d2\ff\00\00a\0e\02\00\d3\ff\00\00\81\0e\02\00\d4\ff\00\00\a1\0e\02\00\d5\ff\00\00\c1\0e\02\00\d6\ff\00\00\e1\0e\02\00\d7\ff\00\00\01\0f\02\00\da\ff\00\00!\0f\02\00\db\ff\00\00A\0f\02\00\dc\ff\00\00a\0f\02\00\e0\ff\00\00\81\0f\02\00\e1\ff\00\00\a1\0f\02\00\e2\ff\00\00\c1\0f\02\00\e3\ff\00\00\e2\0f\02\00\e4\ff\00\00!\10\02\00\e5\ff\00\00A\10\02\00\e6\ff\00\00a\10\02\00\e8\ff\00\00\81\10\02\00\e9\ff\00\00\a1\10\02\00\ea\ff\00\00\c1\10\02\00\eb\ff\00\00\e1\10\02\00\ec\ff\00\00\01\11\02\00\ed\ff\00\00!\11\02\00\ee\ff\00\00A\11\02\00\81\07\01\00a\11\02\00\82\07\01\00\81\11\02\00\83\07\01\00\a1\11\02\00\84\07\01\00\c1\11\02\00\85\07\01\00\e1\11\02\00\87\07\01\00\01\12\02\00\88\07\01\00!\12\02\00\89\07\01\00A\12\02\00\8a\07\01\00a\12\02\00\8b\07\01\00\81\12\02\00\8c\07\01\00\a1\12\02\00\8d\07\01\00\c1\12\02\00\8e\07\01\00\e1\12\02\00\8f\07\01\00\01\13\02\00\90\07\01\00!\13\02\00\91\07\01\00A\13\02\00\92\07\01\00a\13\02\00\93\07\01\00\81\13\02\00\94\07\01\00\a1\13\02\00\95\07\01\00\c1\13\02\00\96\07\01\00\e1\13\02\00\97\07\01\00\01\14\02\00\98\07\01\00!\14\02\00\99\07\01\00A\14\02\00\9a\07\01\00a\14\02\00\9b\07\01\00\81\14\02\00\9c\07\01\00\a2\14\02\00\9d\07\01\00\e1\14\02\00\9e\07\01\00\01\15\02\00\9f\07\01\00\"\15\02\00\a0\07\01\00a\15\02\00\a1\07\01\00\82\15\02\00\a2\07\01\00\c1\15\02\00\a3\07\01\00\e1\15\02\00\a4\07\01\00\01\16\02\00\a5\07\01\00!\16\02\00\a6\07\01\00A\16\02\00\a7\07\01\00b\16\02\00\a8\07\01\00\a1\16\02\00\a9\07\01\00\c1\16\02\00\aa\07\01\00\e1\16\02\00\ab\07\01\00\01\17\02\00\ac\07\01\00!\17\02\00\ad\07\01\00A\17\02\00\ae\07\01\00a\17\02\00\af\07\01\00\81\17\02\00\b0\07\01\00\a1\17\02\00\b2\07\01\00\c1\17\02\00\b3\07\01\00\e1\17\02\00\b4\07\01\00\01\18\02\00\b5\07\01\00!\18\02\00\b6\07\01\00A\18\02\00\b7\07\01\00a\18\02\00\b8\07\01\00\81\18\02\00\b9\07\01\00\a2\18\02\00\ba\07\01\00\e2\18\02\00\d6\cc\01\00!\19\02\00\d7\cc\01\00A\19\02\00\d8\cc\01\00a\19\02\00\d9\cc\01\00\81\19\02\00\da\cc\01\00\a1\19\02\00\db\cc\01\00\c1\19\02\00\dc\cc\01\00\e1\19\02\00\dd\cc\01\00\01\1a\02\00\de\cc\01\00!\1a\02\00\df\cc\01\00A\1a\02\00\e0\cc\01\00a\1a\02\00\e1\cc\01\00\81\1a\02\00\e2\cc\01\00\a1\1a\02\00\e3\cc\01\00\c1\1a\02\00\e4\cc\01\00\e1\1a\02\00\e5\cc\01\00\01\1b\02\00\e6\cc\01\00!\1b\02\00\e7\cc\01\00A\1b\02\00\e8\cc\01\00a\1b\02\00\e9\cc\01\00\81\1b\02\00\ea\cc\01\00\a1\1b\02\00\eb\cc\01\00\c1\1b\02\00\ec\cc\01\00\e1\1b\02\00\ed\cc\01\00\01\1c\02\00\ee\cc\01\00!\1c\02\00\ef\cc\01\00A\1c\02\00\f0\cc\01\00a\1c\02\00\f1\cc\01\00\81\1c\02\00\f2\cc\01\00\a1\1c\02\00\f3\cc\01\00\c1\1c\02\00\f4\cc\01\00\e1\1c\02\00\f5\cc\01\00\01\1d\02\00\f6\cc\01\00!\1d\02\00\f7\cc\01\00A\1d\02\00\f8\cc\01\00a\1d\02\00\f9\cc\01\00\81\1d\02\00\00\d4\01\00\a1\1d\02\00\01\d4\01\00\c1\1d\02\00\02\d4\01\00\e1\1d\02\00\03\d4\01\00\01\1e\02\00\04\d4\01\00!\1e\02\00\05\d4\01\00A\1e\02\00\06\d4\01\00a\1e\02\00\07\d4\01\00\81\1e\02\00\08\d4\01\00\a1\1e\02\00\t\d4\01\00\c1\1e\02\00\n\d4\01\00\e1\1e\02\00\0b\d4\01\00\01\1f\02\00\0c\d4\01\00!\1f\02\00\0d\d4\01\00A\1f\02\00\0e\d4\01\00a\1f\02\00\0f\d4\01\00\81\1f\02\00\10\d4\01\00\a1\1f\02\00\11\d4\01\00\c1\1f\02\00\12\d4\01\00\e1\1f\02\00\13\d4\01\00\01 \02\00\14\d4\01\00! \02\00\15\d4\01\00A \02\00\16\d4\01\00a \02\00\17\d4\01\00\81 \02\00\18\d4\01\00\a1 \02\00\19\d4\01\00\c1 \02\00\1a\d4\01\00\e1 \02\00\1b\d4\01\00\01!\02\00\1c\d4\01\00!!\02\00\1d\d4\01\00A!\02\00\1e\d4\01\00a!\02\00\1f\d4\01\00\81!\02\00 \d4\01\00\a1!\02\00!\d4\01\00\c1!\02\00\"\d4\01\00\e1!\02\00#\d4\01\00\01\"\02\00$\d4\01\00!\"\02\00%\d4\01\00A\"\02\00&\d4\01\00a\"\02\00\'\d4\01\00\81\"\02\00(\d4\01\00\a1\"\02\00)\d4\01\00\c1\"\02\00*\d4\01\00\e1\"\02\00+\d4\01\00\01#\02\00,\d4\01\00!#\02\00-\d4\01\00A#\02\00.\d4\01\00a#\02\00/\d4\01\00\81#\02\000\d4\01\00\a1#\02\001\d4\01\00\c1#\02\002\d4\01\00\e1#\02\003\d4\01\00\01$\02\004\d4\01\00!$\02\005\d4\01\00A$\02\006\d4\01\00a$\02\007\d4\01\00\81$\02\008\d4\01\00\a1$\02\009\d4\01\00\c1$\02\00:\d4\01\00\e1$\02\00;\d4\01\00\01%\02\00<\d4\01\00!%\02\00=\d4\01\00A%\02\00>\d4\01\00a%\02\00?\d4\01\00\81%\02\00@\d4\01\00\a1%\02\00A\d4\01\00\c1%\02\00B\d4\01\00\e1%\02\00C\d4\01\00\01&\02\00D\d4\01\00!&\02\00E\d4\01\00A&\02\00F\d4\01\00a&\02\00G\d4\01\00\81&\02\00H\d4\01\00\a1&\02\00I\d4\01\00\c1&\02\00J\d4\01\00\e1&\02\00K\d4\01\00\01\'\02\00L\d4\01\00!\'\02\00M\d4\01\00A\'\02\00N\d4\01\00a\'\02\00O\d4\01\00\81\'\02\00P\d4\01\00\a1\'\02\00Q\d4\01\00\c1\'\02\00R\d4\01\00\e1\'\02\00S\d4\01\00\01(\02\00T\d4\01\00!(\02\00V\d4\01\00A(\02\00W\d4\01\00a(\02\00X\d4\01\00\81(\02\00Y\d4\01\00\a1(\02\00Z\d4\01\00\c1(\02\00[\d4\01\00\e1(\02\00\\\d4\01\00\01)\02\00]\d4\01\00!)\02\00^\d4\01\00A)\02\00_\d4\01\00a)\02\00`\d4\01\00\81)\02\00a\d4\01\00\a1)\02\00b\d4\01\00\c1)\02\00c\d4\01\00\e1)\02\00d\d4\01\00\01*\02\00e\d4\01\00!*\02\00f\d4\01\00A*\02\00g\d4\01\00a*\02\00h\d4\01\00\81*\02\00i\d4\01\00\a1*\02\00j\d4\01\00\c1*\02\00k\d4\01\00\e1*\02\00l\d4\01\00\01+\02\00m\d4\01\00!+\02\00n\d4\01\00A+\02\00o\d4\01\00a+\02\00p\d4\01\00\81+\02\00q\d4\01\00\a1+\02\00r\d4\01\00\c1+\02\00s\d4\01\00\e1+\02\00t\d4\01\00\01,\02\00u\d4\01\00!,\02\00v\d4\01\00A,\02\00w\d4\01\00a,\02\00x\d4\01\00\81,\02\00y\d4\01\00\a1,\02\00z\d4\01\00\c1,\02\00{\d4\01\00\e1,\02\00|\d4\01\00\01-\02\00}\d4\01\00!-\02\00~\d4\01\00A-\02\00\7f\d4\01\00a-\02\00\80\d4\01\00\81-\02\00\81\d4\01\00\a1-\02\00\82\d4\01\00\c1-\02\00\83\d4\01\00\e1-\02\00\84\d4\01\00\01.\02\00\85\d4\01\00!.\02\00\86\d4\01\00A.\02\00\87\d4\01\00a.\02\00\88\d4\01\00\81.\02\00\89\d4\01\00\a1.\02\00\8a\d4\01\00\c1.\02\00\8b\d4\01\00\e1.\02\00\8c\d4\01\00\01/\02\00\8d\d4\01\00!/\02\00\8e\d4\01\00A/\02\00\8f\d4\01\00a/\02\00\90\d4\01\00\81/\02\00\91\d4\01\00\a1/\02\00\92\d4\01\00\c1/\02\00\93\d4\01\00\e1/\02\00\94\d4\01\00\010\02\00\95\d4\01\00!0\02\00\96\d4\01\00A0\02\00\97\d4\01\00a0\02\00\98\d4\01\00\810\02\00\99\d4\01\00\a10\02\00\9a\d4\01\00\c10\02\00\9b\d4\01\00\e10\02\00\9c\d4\01\00\011\02\00\9e\d4\01\00!1\02\00\9f\d4\01\00A1\02\00\a2\d4\01\00a1\02\00\a5\d4\01\00\811\02\00\a6\d4\01\00\a11\02\00\a9\d4\01\00\c11\02\00\aa\d4\01\00\e11\02\00\ab\d4\01\00\012\02\00\ac\d4\01\00!2\02\00\ae\d4\01\00A2\02\00\af\d4\01\00a2\02\00\b0\d4\01\00\812\02\00\b1\d4\01\00\a12\02\00\b2\d4\01\00\c12\02\00\b3\d4\01\00\e12\02\00\b4\d4\01\00\013\02\00\b5\d4\01\00!3\02\00\b6\d4\01\00A3\02\00\b7\d4\01\00a3\02\00\b8\d4\01\00\813\02\00\b9\d4\01\00\a13\02\00\bb\d4\01\00\c13\02\00\bd\d4\01\00\e13\02\00\be\d4\01\00\014\02\00\bf\d4\01\00!4\02\00\c0\d4\01\00A4\02\00\c1\d4\01\00a4\02\00\c2\d4\01\00\814\02\00\c3\d4\01\00\a14\02\00\c5\d4\01\00\c14\02\00\c6\d4\01\00\e14\02\00\c7\d4\01\00\015\02\00\c8\d4\01\00!5\02\00\c9\d4\01\00A5\02\00\ca\d4\01\00a5\02\00\cb\d4\01\00\815\02\00\cc\d4\01\00\a15\02\00\cd\d4\01\00\c15\02\00\ce\d4\01\00\e15\02\00\cf\d4\01\00\016\02\00\d0\d4\01\00!6\02\00\d1\d4\01\00A6\02\00\d2\d4\01\00a6\02\00\d3\d4\01\00\816\02\00\d4\d4\01\00\a16\02\00\d5\d4\01\00\c16\02\00\d6\d4\01\00\e16\02\00\d7\d4\01\00\017\02\00\d8\d4\01\00!7\02\00\d9\d4\01\00A7\02\00\da\d4\01\00a7\02\00\db\d4\01\00\817\02\00\dc\d4\01\00\a17\02\00\dd\d4\01\00\c17\02\00\de\d4\01\00\e17\02\00\df\d4\01\00\018\02\00\e0\d4\01\00!8\02\00\e1\d4\01\00A8\02\00\e2\d4\01\00a8\02\00\e3\d4\01\00\818\02\00\e4\d4\01\00\a18\02\00\e5\d4\01\00\c18\02\00\e6\d4\01\00\e18\02\00\e7\d4\01\00\019\02\00\e8\d4\01\00!9\02\00\e9\d4\01\00A9\02\00\ea\d4\01\00a9\02\00\eb\d4\01\00\819\02\00\ec\d4\01\00\a19\02\00\ed\d4\01\00\c19\02\00\ee\d4\01\00\e19\02\00\ef\d4\01\00\01:\02\00\f0\d4\01\00!:\02\00\f1\d4\01\00A:\02\00\f2\d4\01\00a:\02\00\f3\d4\01\00\81:\02\00\f4\d4\01\00\a1:\02\00\f5\d4\01\00\c1:\02\00\f6\d4\01\00\e1:\02\00\f7\d4\01\00\01;\02\00\f8\d4\01\00!;\02\00\f9\d4\01\00A;\02\00\fa\d4\01\00a;\02\00\fb\d4\01\00\81;\02\00\fc\d4\01\00\a1;\02\00\fd\d4\01\00\c1;\02\00\fe\d4\01\00\e1;\02\00\ff\d4\01\00\01<\02\00\00\d5\01\00!<\02\00\01\d5\01\00A<\02\00\02\d5\01\00a<\02\00\03\d5\01\00\81<\02\00\04\d5\01\00\a1<\02\00\05\d5\01\00\c1<\02\00\07\d5\01\00\e1<\02\00\08\d5\01\00\01=\02\00\t\d5\01\00!=\02\00\n\d5\01\00A=\02\00\0d\d5\01\00a=\02\00\0e\d5\01\00\81=\02\00\0f\d5\01\00\a1=\02\00\10\d5\01\00\c1=\02\00\11\d5\01\00\e1=\02\00\12\d5\01\00\01>\02\00\13\d5\01\00!>\02\00\14\d5\01\00A>\02\00\16\d5\01\00a>\02\00\17\d5\01\00\81>\02\00\18\d5\01\00\a1>\02\00\19\d5\01\00\c1>\02\00\1a\d5\01\00\e1>\02\00\1b\d5\01\00\01?\02\00\1c\d5\01\00!?\02\00\1e\d5\01\00A?\02\00\1f\d5\01\00a?\02\00 \d5\01\00\81?\02\00!\d5\01\00\a1?\02\00\"\d5\01\00\c1?\02\00#\d5\01\00\e1?\02\00$\d5\01\00\01@\02\00%\d5\01\00!@\02\00&\d5\01\00A@\02\00\'\d5\01\00a@\02\00(\d5\01\00\81@\02\00)\d5\01\00\a1@\02\00*\d5\01\00\c1@\02\00+\d5\01\00\e1@\02\00,\d5\01\00\01A\02\00-\d5\01\00!A\02\00.\d5\01\00AA\02\00/\d5\01\00aA\02\000\d5\01\00\81A\02\001\d5\01\00\a1A\02\002\d5\01\00\c1A\02\003\d5\01\00\e1A\02\004\d5\01\00\01B\02\005\d5\01\00!B\02\006\d5\01\00AB\02\007\d5\01\00aB\02\008\d5\01\00\81B\02\009\d5\01\00\a1B\02\00;\d5\01\00\c1B\02\00<\d5\01\00\e1B\02\00=\d5\01\00\01C\02\00>\d5\01\00!C\02\00@\d5\01\00AC\02\00A\d5\01\00aC\02\00B\d5\01\00\81C\02\00C\d5\01\00\a1C\02\00D\d5\01\00\c1C\02\00F\d5\01\00\e1C\02\00J\d5\01\00\01D\02\00K\d5\01\00!D\02\00L\d5\01\00AD\02\00M\d5\01\00aD\02\00N\d5\01\00\81D\02\00O\d5\01\00\a1D\02\00P\d5\01\00\c1D\02\00R\d5\01\00\e1D\02\00S\d5\01\00\01E\02\00T\d5\01\00!E\02\00U\d5\01\00AE\02\00V\d5\01\00aE\02\00W\d5\01\00\81E\02\00X\d5\01\00\a1E\02\00Y\d5\01\00\c1E\02\00Z\d5\01\00\e1E\02\00[\d5\01\00\01F\02\00\\\d5\01\00!F\02\00]\d5\01\00AF\02\00^\d5\01\00aF\02\00_\d5\01\00\81F\02\00`\d5\01\00\a1F\02\00a\d5\01\00\c1F\02\00b\d5\01\00\e1F\02\00c\d5\01\00\01G\02\00d\d5\01\00!G\02\00e\d5\01\00AG\02\00f\d5\01\00aG\02\00g\d5\01\00\81G\02\00h\d5\01\00\a1G\02\00i\d5\01\00\c1G\02\00j\d5\01\00\e1G\02\00k\d5\01\00\01H\02\00l\d5\01\00!H\02\00m\d5\01\00AH\02\00n\d5\01\00aH\02\00o\d5\01\00\81H\02\00p\d5\01\00\a1H\02\00q\d5\01\00\c1H\02\00r\d5\01\00\e1H\02\00s\d5\01\00\01I\02\00t\d5\01\00!I\02\00u\d5\01\00AI\02\00v\d5\01\00aI\02\00w\d5\01\00\81I\02\00x\d5\01\00\a1I\02\00y\d5\01\00\c1I\02\00z\d5\01\00\e1I\02\00{\d5\01\00\01J\02\00|\d5\01\00!J\02\00}\d5\01\00AJ\02\00~\d5\01\00aJ\02\00\7f\d5\01\00\81J\02\00\80\d5\01\00\a1J\02\00\81\d5\01\00\c1J\02\00\82\d5\01\00\e1J\02\00\83\d5\01\00\01K\02\00\84\d5\01\00!K\02\00\85\d5\01\00AK\02\00\86\d5\01\00aK\02\00\87\d5\01\00\81K\02\00\88\d5\01\00\a1K\02\00\89\d5\01\00\c1K\02\00\8a\d5\01\00\e1K\02\00\8b\d5\01\00\01L\02\00\8c\d5\01\00!L\02\00\8d\d5\01\00AL\02\00\8e\d5\01\00aL\02\00\8f\d5\01\00\81L\02\00\90\d5\01\00\a1L\02\00\91\d5\01\00\c1L\02\00\92\d5\01\00\e1L\02\00\93\d5\01\00\01M\02\00\94\d5\01\00!M\02\00\95\d5\01\00AM\02\00\96\d5\01\00aM\02\00\97\d5\01\00\81M\02\00\98\d5\01\00\a1M\02\00\99\d5\01\00\c1M\02\00\9a\d5\01\00\e1M\02\00\9b\d5\01\00\01N\02\00\9c\d5\01\00!N\02\00\9d\d5\01\00AN\02\00\9e\d5\01\00aN\02\00\9f\d5\01\00\81N\02\00\a0\d5\01\00\a1N\02\00\a1\d5\01\00\c1N\02\00\a2\d5\01\00\e1N\02\00\a3\d5\01\00\01O\02\00\a4\d5\01\00!O\02\00\a5\d5\01\00AO\02\00\a6\d5\01\00aO\02\00\a7\d5\01\00\81O\02\00\a8\d5\01\00\a1O\02\00\a9\d5\01\00\c1O\02\00\aa\d5\01\00\e1O\02\00\ab\d5\01\00\01P\02\00\ac\d5\01\00!P\02\00\ad\d5\01\00AP\02\00\ae\d5\01\00aP\02\00\af\d5\01\00\81P\02\00\b0\d5\01\00\a1P\02\00\b1\d5\01\00\c1P\02\00\b2\d5\01\00\e1P\02\00\b3\d5\01\00\01Q\02\00\b4\d5\01\00!Q\02\00\b5\d5\01\00AQ\02\00\b6\d5\01\00aQ\02\00\b7\d5\01\00\81Q\02\00\b8\d5\01\00\a1Q\02\00\b9\d5\01\00\c1Q\02\00\ba\d5\01\00\e1Q\02\00\bb\d5\01\00\01R\02\00\bc\d5\01\00!R\02\00\bd\d5\01\00AR\02\00\be\d5\01\00aR\02\00\bf\d5\01\00\81R\02\00\c0\d5\01\00\a1R\02\00\c1\d5\01\00\c1R\02\00\c2\d5\01\00\e1R\02\00\c3\d5\01\00\01S\02\00\c4\d5\01\00!S\02\00\c5\d5\01\00AS\02\00\c6\d5\01\00aS\02\00\c7\d5\01\00\81S\02\00\c8\d5\01\00\a1S\02\00\c9\d5\01\00\c1S\02\00\ca\d5\01\00\e1S\02\00\cb\d5\01\00\01T\02\00\cc\d5\01\00!T\02\00\cd\d5\01\00AT\02\00\ce\d5\01\00aT\02\00\cf\d5\01\00\81T\02\00\d0\d5\01\00\a1T\02\00\d1\d5\01\00\c1T\02\00\d2\d5\01\00\e1T\02\00\d3\d5\01\00\01U\02\00\d4\d5\01\00!U\02\00\d5\d5\01\00AU\02\00\d6\d5\01\00aU\02\00\d7\d5\01\00\81U\02\00\d8\d5\01\00\a1U\02\00\d9\d5\01\00\c1U\02\00\da\d5\01\00\e1U\02\00\db\d5\01\00\01V\02\00\dc\d5\01\00!V\02\00\dd\d5\01\00AV\02\00\de\d5\01\00aV\02\00\df\d5\01\00\81V\02\00\e0\d5\01\00\a1V\02\00\e1\d5\01\00\c1V\02\00\e2\d5\01\00\e1V\02\00\e3\d5\01\00\01W\02\00\e4\d5\01\00!W\02\00\e5\d5\01\00AW\02\00\e6\d5\01\00aW\02\00\e7\d5\01\00\81W\02\00\e8\d5\01\00\a1W\02\00\e9\d5\01\00\c1W\02\00\ea\d5\01\00\e1W\02\00\eb\d5\01\00\01X\02\00\ec\d5\01\00!X\02\00\ed\d5\01\00AX\02\00\ee\d5\01\00aX\02\00\ef\d5\01\00\81X\02\00\f0\d5\01\00\a1X\02\00\f1\d5\01\00\c1X\02\00\f2\d5\01\00\e1X\02\00\f3\d5\01\00\01Y\02\00\f4\d5\01\00!Y\02\00\f5\d5\01\00AY\02\00\f6\d5\01\00aY\02\00\f7\d5\01\00\81Y\02\00\f8\d5\01\00\a1Y\02\00\f9\d5\01\00\c1Y\02\00\fa\d5\01\00\e1Y\02\00\fb\d5\01\00\01Z\02\00\fc\d5\01\00!Z\02\00\fd\d5\01\00AZ\02\00\fe\d5\01\00aZ\02\00\ff\d5\01\00\81Z\02\00\00\d6\01\00\a1Z\02\00\01\d6\01\00\c1Z\02\00\02\d6\01\00\e1Z\02\00\03\d6\01\00\01[\02\00\04\d6\01\00![\02\00\05\d6\01\00A[\02\00\06\d6\01\00a[\02\00\07\d6\01\00\81[\02\00\08\d6\01\00\a1[\02\00\t\d6\01\00\c1[\02\00\n\d6\01\00\e1[\02\00\0b\d6\01\00\01\\\02\00\0c\d6\01\00!\\\02\00\0d\d6\01\00A\\\02\00\0e\d6\01\00a\\\02\00\0f\d6\01\00\81\\\02\00\10\d6\01\00\a1\\\02\00\11\d6\01\00\c1\\\02\00\12\d6\01\00\e1\\\02\00\13\d6\01\00\01]\02\00\14\d6\01\00!]\02\00\15\d6\01\00A]\02\00\16\d6\01\00a]\02\00\17\d6\01\00\81]\02\00\18\d6\01\00\a1]\02\00\19\d6\01\00\c1]\02\00\1a\d6\01\00\e1]\02\00\1b\d6\01\00\01^\02\00\1c\d6\01\00!^\02\00\1d\d6\01\00A^\02\00\1e\d6\01\00a^\02\00\1f\d6\01\00\81^\02\00 \d6\01\00\a1^\02\00!\d6\01\00\c1^\02\00\"\d6\01\00\e1^\02\00#\d6\01\00\01_\02\00$\d6\01\00!_\02\00%\d6\01\00A_\02\00&\d6\01\00a_\02\00\'\d6\01\00\81_\02\00(\d6\01\00\a1_\02\00)\d6\01\00\c1_\02\00*\d6\01\00\e1_\02\00+\d6\01\00\01`\02\00,\d6\01\00!`\02\00-\d6\01\00A`\02\00.\d6\01\00a`\02\00/\d6\01\00\81`\02\000\d6\01\00\a1`\02\001\d6\01\00\c1`\02\002\d6\01\00\e1`\02\003\d6\01\00\01a\02\004\d6\01\00!a\02\005\d6\01\00Aa\02\006\d6\01\00aa\02\007\d6\01\00\81a\02\008\d6\01\00\a1a\02\009\d6\01\00\c1a\02\00:\d6\01\00\e1a\02\00;\d6\01\00\01b\02\00<\d6\01\00!b\02\00=\d6\01\00Ab\02\00>\d6\01\00ab\02\00?\d6\01\00\81b\02\00@\d6\01\00\a1b\02\00A\d6\01\00\c1b\02\00B\d6\01\00\e1b\02\00C\d6\01\00\01c\02\00D\d6\01\00!c\02\00E\d6\01\00Ac\02\00F\d6\01\00ac\02\00G\d6\01\00\81c\02\00H\d6\01\00\a1c\02\00I\d6\01\00\c1c\02\00J\d6\01\00\e1c\02\00K\d6\01\00\01d\02\00L\d6\01\00!d\02\00M\d6\01\00Ad\02\00N\d6\01\00ad\02\00O\d6\01\00\81d\02\00P\d6\01\00\a1d\02\00Q\d6\01\00\c1d\02\00R\d6\01\00\e1d\02\00S\d6\01\00\01e\02\00T\d6\01\00!e\02\00U\d6\01\00Ae\02\00V\d6\01\00ae\02\00W\d6\01\00\81e\02\00X\d6\01\00\a1e\02\00Y\d6\01\00\c1e\02\00Z\d6\01\00\e1e\02\00[\d6\01\00\01f\02\00\\\d6\01\00!f\02\00]\d6\01\00Af\02\00^\d6\01\00af\02\00_\d6\01\00\81f\02\00`\d6\01\00\a1f\02\00a\d6\01\00\c1f\02\00b\d6\01\00\e1f\02\00c\d6\01\00\01g\02\00d\d6\01\00!g\02\00e\d6\01\00Ag\02\00f\d6\01\00ag\02\00g\d6\01\00\81g\02\00h\d6\01\00\a1g\02\00i\d6\01\00\c1g\02\00j\d6\01\00\e1g\02\00k\d6\01\00\01h\02\00l\d6\01\00!h\02\00m\d6\01\00Ah\02\00n\d6\01\00ah\02\00o\d6\01\00\81h\02\00p\d6\01\00\a1h\02\00q\d6\01\00\c1h\02\00r\d6\01\00\e1h\02\00s\d6\01\00\01i\02\00t\d6\01\00!i\02\00u\d6\01\00Ai\02\00v\d6\01\00ai\02\00w\d6\01\00\81i\02\00x\d6\01\00\a1i\02\00y\d6\01\00\c1i\02\00z\d6\01\00\e1i\02\00{\d6\01\00\01j\02\00|\d6\01\00!j\02\00}\d6\01\00Aj\02\00~\d6\01\00aj\02\00\7f\d6\01\00\81j\02\00\80\d6\01\00\a1j\02\00\81\d6\01\00\c1j\02\00\82\d6\01\00\e1j\02\00\83\d6\01\00\01k\02\00\84\d6\01\00!k\02\00\85\d6\01\00Ak\02\00\86\d6\01\00ak\02\00\87\d6\01\00\81k\02\00\88\d6\01\00\a1k\02\00\89\d6\01\00\c1k\02\00\8a\d6\01\00\e1k\02\00\8b\d6\01\00\01l\02\00\8c\d6\01\00!l\02\00\8d\d6\01\00Al\02\00\8e\d6\01\00al\02\00\8f\d6\01\00\81l\02\00\90\d6\01\00\a1l\02\00\91\d6\01\00\c1l\02\00\92\d6\01\00\e1l\02\00\93\d6\01\00\01m\02\00\94\d6\01\00!m\02\00\95\d6\01\00Am\02\00\96\d6\01\00am\02\00\97\d6\01\00\81m\02\00\98\d6\01\00\a1m\02\00\99\d6\01\00\c1m\02\00\9a\d6\01\00\e1m\02\00\9b\d6\01\00\01n\02\00\9c\d6\01\00!n\02\00\9d\d6\01\00An\02\00\9e\d6\01\00an\02\00\9f\d6\01\00\81n\02\00\a0\d6\01\00\a1n\02\00\a1\d6\01\00\c1n\02\00\a2\d6\01\00\e1n\02\00\a3\d6\01\00\01o\02\00\a4\d6\01\00!o\02\00\a5\d6\01\00Ao\02\00\a8\d6\01\00ao\02\00\a9\d6\01\00\81o\02\00\aa\d6\01\00\a1o\02\00\ab\d6\01\00\c1o\02\00\ac\d6\01\00\e1o\02\00\ad\d6\01\00\01p\02\00\ae\d6\01\00!p\02\00\af\d6\01\00Ap\02\00\b0\d6\01\00ap\02\00\b1\d6\01\00\81p\02\00\b2\d6\01\00\a1p\02\00\b3\d6\01\00\c1p\02\00\b4\d6\01\00\e1p\02\00\b5\d6\01\00\01q\02\00\b6\d6\01\00!q\02\00\b7\d6\01\00Aq\02\00\b8\d6\01\00aq\02\00\b9\d6\01\00\81q\02\00\ba\d6\01\00\a1q\02\00\bb\d6\01\00\c1q\02\00\bc\d6\01\00\e1q\02\00\bd\d6\01\00\01r\02\00\be\d6\01\00!r\02\00\bf\d6\01\00Ar\02\00\c0\d6\01\00ar\02\00\c1\d6\01\00\81r\02\00\c2\d6\01\00\a1r\02\00\c3\d6\01\00\c1r\02\00\c4\d6\01\00\e1r\02\00\c5\d6\01\00\01s\02\00\c6\d6\01\00!s\02\00\c7\d6\01\00As\02\00\c8\d6\01\00as\02\00\c9\d6\01\00\81s\02\00\ca\d6\01\00\a1s\02\00\cb\d6\01\00\c1s\02\00\cc\d6\01\00\e1s\02\00\cd\d6\01\00\01t\02\00\ce\d6\01\00!t\02\00\cf\d6\01\00At\02\00\d0\d6\01\00at\02\00\d1\d6\01\00\81t\02\00\d2\d6\01\00\a1t\02\00\d3\d6\01\00\c1t\02\00\d4\d6\01\00\e1t\02\00\d5\d6\01\00\01u\02\00\d6\d6\01\00!u\02\00\d7\d6\01\00Au\02\00\d8\d6\01\00au\02\00\d9\d6\01\00\81u\02\00\da\d6\01\00\a1u\02\00\db\d6\01\00\c1u\02\00\dc\d6\01\00\e1u\02\00\dd\d6\01\00\01v\02\00\de\d6\01\00!v\02\00\df\d6\01\00Av\02\00\e0\d6\01\00av\02\00\e1\d6\01\00\81v\02\00\e2\d6\01\00\a1v\02\00\e3\d6\01\00\c1v\02\00\e4\d6\01\00\e1v\02\00\e5\d6\01\00\01w\02\00\e6\d6\01\00!w\02\00\e7\d6\01\00Aw\02\00\e8\d6\01\00aw\02\00\e9\d6\01\00\81w\02\00\ea\d6\01\00\a1w\02\00\eb\d6\01\00\c1w\02\00\ec\d6\01\00\e1w\02\00\ed\d6\01\00\01x\02\00\ee\d6\01\00!x\02\00\ef\d6\01\00Ax\02\00\f0\d6\01\00ax\02\00\f1\d6\01\00\81x\02\00\f2\d6\01\00\a1x\02\00\f3\d6\01\00\c1x\02\00\f4\d6\01\00\e1x\02\00\f5\d6\01\00\01y\02\00\f6\d6\01\00!y\02\00\f7\d6\01\00Ay\02\00\f8\d6\01\00ay\02\00\f9\d6\01\00\81y\02\00\fa\d6\01\00\a1y\02\00\fb\d6\01\00\c1y\02\00\fc\d6\01\00\e1y\02\00\fd\d6\01\00\01z\02\00\fe\d6\01\00!z\02\00\ff\d6\01\00Az\02\00\00\d7\01\00az\02\00\01\d7\01\00\81z\02\00\02\d7\01\00\a1z\02\00\03\d7\01\00\c1z\02\00\04\d7\01\00\e1z\02\00\05\d7\01\00\01{\02\00\06\d7\01\00!{\02\00\07\d7\01\00A{\02\00\08\d7\01\00a{\02\00\t\d7\01\00\81{\02\00\n\d7\01\00\a1{\02\00\0b\d7\01\00\c1{\02\00\0c\d7\01\00\e1{\02\00\0d\d7\01\00\01|\02\00\0e\d7\01\00!|\02\00\0f\d7\01\00A|\02\00\10\d7\01\00a|\02\00\11\d7\01\00\81|\02\00\12\d7\01\00\a1|\02\00\13\d7\01\00\c1|\02\00\14\d7\01\00\e1|\02\00\15\d7\01\00\01}\02\00\16\d7\01\00!}\02\00\17\d7\01\00A}\02\00\18\d7\01\00a}\02\00\19\d7\01\00\81}\02\00\1a\d7\01\00\a1}\02\00\1b\d7\01\00\c1}\02\00\1c\d7\01\00\e1}\02\00\1d\d7\01\00\01~\02\00\1e\d7\01\00!~\02\00\1f\d7\01\00A~\02\00 \d7\01\00a~\02\00!\d7\01\00\81~\02\00\"\d7\01\00\a1~\02\00#\d7\01\00\c1~\02\00$\d7\01\00\e1~\02\00%\d7\01\00\01\7f\02\00&\d7\01\00!\7f\02\00\'\d7\01\00A\7f\02\00(\d7\01\00a\7f\02\00)\d7\01\00\81\7f\02\00*\d7\01\00\a1\7f\02\00+\d7\01\00\c1\7f\02\00,\d7\01\00\e1\7f\02\00-\d7\01\00\01\80\02\00.\d7\01\00!\80\02\00/\d7\01\00A\80\02\000\d7\01\00a\80\02\001\d7\01\00\81\80\02\002\d7\01\00\a1\80\02\003\d7\01\00\c1\80\02\004\d7\01\00\e1\80\02\005\d7\01\00\01\81\02\006\d7\01\00!\81\02\007\d7\01\00A\81\02\008\d7\01\00a\81\02\009\d7\01\00\81\81\02\00:\d7\01\00\a1\81\02\00;\d7\01\00\c1\81\02\00<\d7\01\00\e1\81\02\00=\d7\01\00\01\82\02\00>\d7\01\00!\82\02\00?\d7\01\00A\82\02\00@\d7\01\00a\82\02\00A\d7\01\00\81\82\02\00B\d7\01\00\a1\82\02\00C\d7\01\00\c1\82\02\00D\d7\01\00\e1\82\02\00E\d7\01\00\01\83\02\00F\d7\01\00!\83\02\00G\d7\01\00A\83\02\00H\d7\01\00a\83\02\00I\d7\01\00\81\83\02\00J\d7\01\00\a1\83\02\00K\d7\01\00\c1\83\02\00L\d7\01\00\e1\83\02\00M\d7\01\00\01\84\02\00N\d7\01\00!\84\02\00O\d7\01\00A\84\02\00P\d7\01\00a\84\02\00Q\d7\01\00\81\84\02\00R\d7\01\00\a1\84\02\00S\d7\01\00\c1\84\02\00T\d7\01\00\e1\84\02\00U\d7\01\00\01\85\02\00V\d7\01\00!\85\02\00W\d7\01\00A\85\02\00X\d7\01\00a\85\02\00Y\d7\01\00\81\85\02\00Z\d7\01\00\a1\85\02\00[\d7\01\00\c1\85\02\00\\\d7\01\00\e1\85\02\00]\d7\01\00\01\86\02\00^\d7\01\00!\86\02\00_\d7\01\00A\86\02\00`\d7\01\00a\86\02\00a\d7\01\00\81\86\02\00b\d7\01\00\a1\86\02\00c\d7\01\00\c1\86\02\00d\d7\01\00\e1\86\02\00e\d7\01\00\01\87\02\00f\d7\01\00!\87\02\00g\d7\01\00A\87\02\00h\d7\01\00a\87\02\00i\d7\01\00\81\87\02\00j\d7\01\00\a1\87\02\00k\d7\01\00\c1\87\02\00l\d7\01\00\e1\87\02\00m\d7\01\00\01\88\02\00n\d7\01\00!\88\02\00o\d7\01\00A\88\02\00p\d7\01\00a\88\02\00q\d7\01\00\81\88\02\00r\d7\01\00\a1\88\02\00s\d7\01\00\c1\88\02\00t\d7\01\00\e1\88\02\00u\d7\01\00\01\89\02\00v\d7\01\00!\89\02\00w\d7\01\00A\89\02\00x\d7\01\00a\89\02\00y\d7\01\00\81\89\02\00z\d7\01\00\a1\89\02\00{\d7\01\00\c1\89\02\00|\d7\01\00\e1\89\02\00}\d7\01\00\01\8a\02\00~\d7\01\00!\8a\02\00\7f\d7\01\00A\8a\02\00\80\d7\01\00a\8a\02\00\81\d7\01\00\81\8a\02\00\82\d7\01\00\a1\8a\02\00\83\d7\01\00\c1\8a\02\00\84\d7\01\00\e1\8a\02\00\85\d7\01\00\01\8b\02\00\86\d7\01\00!\8b\02\00\87\d7\01\00A\8b\02\00\88\d7\01\00a\8b\02\00\89\d7\01\00\81\8b\02\00\8a\d7\01\00\a1\8b\02\00\8b\d7\01\00\c1\8b\02\00\8c\d7\01\00\e1\8b\02\00\8d\d7\01\00\01\8c\02\00\8e\d7\01\00!\8c\02\00\8f\d7\01\00A\8c\02\00\90\d7\01\00a\8c\02\00\91\d7\01\00\81\8c\02\00\92\d7\01\00\a1\8c\02\00\93\d7\01\00\c1\8c\02\00\94\d7\01\00\e1\8c\02\00\95\d7\01\00\01\8d\02\00\96\d7\01\00!\8d\02\00\97\d7\01\00A\8d\02\00\98\d7\01\00a\8d\02\00\99\d7\01\00\81\8d\02\00\9a\d7\01\00\a1\8d\02\00\9b\d7\01\00\c1\8d\02\00\9c\d7\01\00\e1\8d\02\00\9d\d7\01\00\01\8e\02\00\9e\d7\01\00!\8e\02\00\9f\d7\01\00A\8e\02\00\a0\d7\01\00a\8e\02\00\a1\d7\01\00\81\8e\02\00\a2\d7\01\00\a1\8e\02\00\a3\d7\01\00\c1\8e\02\00\a4\d7\01\00\e1\8e\02\00\a5\d7\01\00\01\8f\02\00\a6\d7\01\00!\8f\02\00\a7\d7\01\00A\8f\02\00\a8\d7\01\00a\8f\02\00\a9\d7\01\00\81\8f\02\00\aa\d7\01\00\a1\8f\02\00\ab\d7\01\00\c1\8f\02\00\ac\d7\01\00\e1\8f\02\00\ad\d7\01\00\01\90\02\00\ae\d7\01\00!\90\02\00\af\d7\01\00A\90\02\00\b0\d7\01\00a\90\02\00\b1\d7\01\00\81\90\02\00\b2\d7\01\00\a1\90\02\00\b3\d7\01\00\c1\90\02\00\b4\d7\01\00\e1\90\02\00\b5\d7\01\00\01\91\02\00\b6\d7\01\00!\91\02\00\b7\d7\01\00A\91\02\00\b8\d7\01\00a\91\02\00\b9\d7\01\00\81\91\02\00\ba\d7\01\00\a1\91\02\00\bb\d7\01\00\c1\91\02\00\bc\d7\01\00\e1\91\02\00\bd\d7\01\00\01\92\02\00\be\d7\01\00!\92\02\00\bf\d7\01\00A\92\02\00\c0\d7\01\00a\92\02\00\c1\d7\01\00\81\92\02\00\c2\d7\01\00\a1\92\02\00\c3\d7\01\00\c1\92\02\00\c4\d7\01\00\e1\92\02\00\c5\d7\01\00\01\93\02\00\c6\d7\01\00!\93\02\00\c7\d7\01\00A\93\02\00\c8\d7\01\00a\93\02\00\c9\d7\01\00\81\93\02\00\ca\d7\01\00\a1\93\02\00\cb\d7\01\00\c1\93\02\00\ce\d7\01\00\e1\93\02\00\cf\d7\01\00\01\94\02\00\d0\d7\01\00!\94\02\00\d1\d7\01\00A\94\02\00\d2\d7\01\00a\94\02\00\d3\d7\01\00\81\94\02\00\d4\d7\01\00\a1\94\02\00\d5\d7\01\00\c1\94\02\00\d6\d7\01\00\e1\94\02\00\d7\d7\01\00\01\95\02\00\d8\d7\01\00!\95\02\00\d9\d7\01\00A\95\02\00\da\d7\01\00a\95\02\00\db\d7\01\00\81\95\02\00\dc\d7\01\00\a1\95\02\00\dd\d7\01\00\c1\95\02\00\de\d7\01\00\e1\95\02\00\df\d7\01\00\01\96\02\00\e0\d7\01\00!\96\02\00\e1\d7\01\00A\96\02\00\e2\d7\01\00a\96\02\00\e3\d7\01\00\81\96\02\00\e4\d7\01\00\a1\96\02\00\e5\d7\01\00\c1\96\02\00\e6\d7\01\00\e1\96\02\00\e7\d7\01\00\01\97\02\00\e8\d7\01\00!\97\02\00\e9\d7\01\00A\97\02\00\ea\d7\01\00a\97\02\00\eb\d7\01\00\81\97\02\00\ec\d7\01\00\a1\97\02\00\ed\d7\01\00\c1\97\02\00\ee\d7\01\00\e1\97\02\00\ef\d7\01\00\01\98\02\00\f0\d7\01\00!\98\02\00\f1\d7\01\00A\98\02\00\f2\d7\01\00a\98\02\00\f3\d7\01\00\81\98\02\00\f4\d7\01\00\a1\98\02\00\f5\d7\01\00\c1\98\02\00\f6\d7\01\00\e1\98\02\00\f7\d7\01\00\01\99\02\00\f8\d7\01\00!\99\02\00\f9\d7\01\00A\99\02\00\fa\d7\01\00a\99\02\00\fb\d7\01\00\81\99\02\00\fc\d7\01\00\a1\99\02\00\fd\d7\01\00\c1\99\02\00\fe\d7\01\00\e1\99\02\00\ff\d7\01\00\01\9a\02\000\e0\01\00!\9a\02\001\e0\01\00A\9a\02\002\e0\01\00a\9a\02\003\e0\01\00\81\9a\02\004\e0\01\00\a1\9a\02\005\e0\01\00\c1\9a\02\006\e0\01\00\e1\9a\02\007\e0\01\00\01\9b\02\008\e0\01\00!\9b\02\009\e0\01\00A\9b\02\00:\e0\01\00a\9b\02\00;\e0\01\00\81\9b\02\00<\e0\01\00\a1\9b\02\00=\e0\01\00\c1\9b\02\00>\e0\01\00\e1\9b\02\00?\e0\01\00\01\9c\02\00@\e0\01\00!\9c\02\00A\e0\01\00A\9c\02\00B\e0\01\00a\9c\02\00C\e0\01\00\81\9c\02\00D\e0\01\00\a1\9c\02\00E\e0\01\00\c1\9c\02\00F\e0\01\00\e1\9c\02\00G\e0\01\00\01\9d\02\00H\e0\01\00!\9d\02\00I\e0\01\00A\9d\02\00J\e0\01\00a\9d\02\00K\e0\01\00\81\9d\02\00L\e0\01\00\a1\9d\02\00M\e0\01\00\c1\9d\02\00N\e0\01\00\e1\9d\02\00O\e0\01\00\01\9e\02\00P\e0\01\00!\9e\02\00Q\e0\01\00A\9e\02\00R\e0\01\00a\9e\02\00S\e0\01\00\81\9e\02\00T\e0\01\00\a1\9e\02\00U\e0\01\00\c1\9e\02\00V\e0\01\00\e1\9e\02\00W\e0\01\00\01\9f\02\00X\e0\01\00!\9f\02\00Y\e0\01\00A\9f\02\00Z\e0\01\00a\9f\02\00[\e0\01\00\81\9f\02\00\\\e0\01\00\a1\9f\02\00]\e0\01\00\c1\9f\02\00^\e0\01\00\e1\9f\02\00_\e0\01\00\01\a0\02\00`\e0\01\00!\a0\02\00a\e0\01\00A\a0\02\00b\e0\01\00a\a0\02\00c\e0\01\00\81\a0\02\00d\e0\01\00\a1\a0\02\00e\e0\01\00\c1\a0\02\00f\e0\01\00\e1\a0\02\00g\e0\01\00\01\a1\02\00h\e0\01\00!\a1\02\00i\e0\01\00A\a1\02\00j\e0\01\00a\a1\02\00k\e0\01\00\81\a1\02\00l\e0\01\00\a1\a1\02\00m\e0\01\00\c1\a1\02\00\00\ee\01\00\e1\a1\02\00\01\ee\01\00\01\a2\02\00\02\ee\01\00!\a2\02\00\03\ee\01\00A\a2\02\00\05\ee\01\00a\a2\02\00\06\ee\01\00\81\a2\02\00\07\ee\01\00\a1\a2\02\00\08\ee\01\00\c1\a2\02\00\t\ee\01\00\e1\a2\02\00\n\ee\01\00\01\a3\02\00\0b\ee\01\00!\a3\02\00\0c\ee\01\00A\a3\02\00\0d\ee\01\00a\a3\02\00\0e\ee\01\00\81\a3\02\00\0f\ee\01\00\a1\a3\02\00\10\ee\01\00\c1\a3\02\00\11\ee\01\00\e1\a3\02\00\12\ee\01\00\01\a4\02\00\13\ee\01\00!\a4\02\00\14\ee\01\00A\a4\02\00\15\ee\01\00a\a4\02\00\16\ee\01\00\81\a4\02\00\17\ee\01\00\a1\a4\02\00\18\ee\01\00\c1\a4\02\00\19\ee\01\00\e1\a4\02\00\1a\ee\01\00\01\a5\02\00\1b\ee\01\00!\a5\02\00\1c\ee\01\00A\a5\02\00\1d\ee\01\00a\a5\02\00\1e\ee\01\00\81\a5\02\00\1f\ee\01\00\a1\a5\02\00!\ee\01\00\c1\a5\02\00\"\ee\01\00\e1\a5\02\00$\ee\01\00\01\a6\02\00\'\ee\01\00!\a6\02\00)\ee\01\00A\a6\02\00*\ee\01\00a\a6\02\00+\ee\01\00\81\a6\02\00,\ee\01\00\a1\a6\02\00-\ee\01\00\c1\a6\02\00.\ee\01\00\e1\a6\02\00/\ee\01\00\01\a7\02\000\ee\01\00!\a7\02\001\ee\01\00A\a7\02\002\ee\01\00a\a7\02\004\ee\01\00\81\a7\02\005\ee\01\00\a1\a7\02\006\ee\01\00\c1\a7\02\007\ee\01\00\e1\a7\02\009\ee\01\00\01\a8\02\00;\ee\01\00!\a8\02\00B\ee\01\00A\a8\02\00G\ee\01\00a\a8\02\00I\ee\01\00\81\a8\02\00K\ee\01\00\a1\a8\02\00M\ee\01\00\c1\a8\02\00N\ee\01\00\e1\a8\02\00O\ee\01\00\01\a9\02\00Q\ee\01\00!\a9\02\00R\ee\01\00A\a9\02\00T\ee\01\00a\a9\02\00W\ee\01\00\81\a9\02\00Y\ee\01\00\a1\a9\02\00[\ee\01\00\c1\a9\02\00]\ee\01\00\e1\a9\02\00_\ee\01\00\01\aa\02\00a\ee\01\00!\aa\02\00b\ee\01\00A\aa\02\00d\ee\01\00a\aa\02\00g\ee\01\00\81\aa\02\00h\ee\01\00\a1\aa\02\00i\ee\01\00\c1\aa\02\00j\ee\01\00\e1\aa\02\00l\ee\01\00\01\ab\02\00m\ee\01\00!\ab\02\00n\ee\01\00A\ab\02\00o\ee\01\00a\ab\02\00p\ee\01\00\81\ab\02\00q\ee\01\00\a1\ab\02\00r\ee\01\00\c1\ab\02\00t\ee\01\00\e1\ab\02\00u\ee\01\00\01\ac\02\00v\ee\01\00!\ac\02\00w\ee\01\00A\ac\02\00y\ee\01\00a\ac\02\00z\ee\01\00\81\ac\02\00{\ee\01\00\a1\ac\02\00|\ee\01\00\c1\ac\02\00~\ee\01\00\e1\ac\02\00\80\ee\01\00\01\ad\02\00\81\ee\01\00!\ad\02\00\82\ee\01\00A\ad\02\00\83\ee\01\00a\ad\02\00\84\ee\01\00\81\ad\02\00\85\ee\01\00\a1\ad\02\00\86\ee\01\00\c1\ad\02\00\87\ee\01\00\e1\ad\02\00\88\ee\01\00\01\ae\02\00\89\ee\01\00!\ae\02\00\8b\ee\01\00A\ae\02\00\8c\ee\01\00a\ae\02\00\8d\ee\01\00\81\ae\02\00\8e\ee\01\00\a1\ae\02\00\8f\ee\01\00\c1\ae\02\00\90\ee\01\00\e1\ae\02\00\91\ee\01\00\01\af\02\00\92\ee\01\00!\af\02\00\93\ee\01\00A\af\02\00\94\ee\01\00a\af\02\00\95\ee\01\00\81\af\02\00\96\ee\01\00\a1\af\02\00\97\ee\01\00\c1\af\02\00\98\ee\01\00\e1\af\02\00\99\ee\01\00\01\b0\02\00\9a\ee\01\00!\b0\02\00\9b\ee\01\00A\b0\02\00\a1\ee\01\00a\b0\02\00\a2\ee\01\00\81\b0\02\00\a3\ee\01\00\a1\b0\02\00\a5\ee\01\00\c1\b0\02\00\a6\ee\01\00\e1\b0\02\00\a7\ee\01\00\01\b1\02\00\a8\ee\01\00!\b1\02\00\a9\ee\01\00A\b1\02\00\ab\ee\01\00a\b1\02\00\ac\ee\01\00\81\b1\02\00\ad\ee\01\00\a1\b1\02\00\ae\ee\01\00\c1\b1\02\00\af\ee\01\00\e1\b1\02\00\b0\ee\01\00\01\b2\02\00\b1\ee\01\00!\b2\02\00\b2\ee\01\00A\b2\02\00\b3\ee\01\00a\b2\02\00\b4\ee\01\00\81\b2\02\00\b5\ee\01\00\a1\b2\02\00\b6\ee\01\00\c1\b2\02\00\b7\ee\01\00\e1\b2\02\00\b8\ee\01\00\01\b3\02\00\b9\ee\01\00!\b3\02\00\ba\ee\01\00A\b3\02\00\bb\ee\01\00a\b3\02\00\00\f1\01\00\82\b3\02\00\01\f1\01\00\c2\b3\02\00\02\f1\01\00\02\b4\02\00\03\f1\01\00B\b4\02\00\04\f1\01\00\82\b4\02\00\05\f1\01\00\c2\b4\02\00\06\f1\01\00\02\b5\02\00\07\f1\01\00B\b5\02\00\08\f1\01\00\82\b5\02\00\t\f1\01\00\c2\b5\02\00\n\f1\01\00\02\b6\02\00\10\f1\01\00C\b6\02\00\11\f1\01\00\a3\b6\02\00\12\f1\01\00\03\b7\02\00\13\f1\01\00c\b7\02\00\14\f1\01\00\c3\b7\02\00\15\f1\01\00#\b8\02\00\16\f1\01\00\83\b8\02\00\17\f1\01\00\e3\b8\02\00\18\f1\01\00C\b9\02\00\19\f1\01\00\a3\b9\02\00\1a\f1\01\00\03\ba\02\00\1b\f1\01\00c\ba\02\00\1c\f1\01\00\c3\ba\02\00\1d\f1\01\00#\bb\02\00\1e\f1\01\00\83\bb\02\00\1f\f1\01\00\e3\bb\02\00 \f1\01\00C\bc\02\00!\f1\01\00\a3\bc\02\00\"\f1\01\00\03\bd\02\00#\f1\01\00c\bd\02\00$\f1\01\00\c3\bd\02\00%\f1\01\00#\be\02\00&\f1\01\00\83\be\02\00\'\f1\01\00\e3\be\02\00(\f1\01\00C\bf\02\00)\f1\01\00\a3\bf\02\00*\f1\01\00\03\c0\02\00+\f1\01\00a\c0\02\00,\f1\01\00\81\c0\02\00-\f1\01\00\a2\c0\02\00.\f1\01\00\e2\c0\02\000\f1\01\00!\c1\02\001\f1\01\00A\c1\02\002\f1\01\00a\c1\02\003\f1\01\00\81\c1\02\004\f1\01\00\a1\c1\02\005\f1\01\00\c1\c1\02\006\f1\01\00\e1\c1\02\007\f1\01\00\01\c2\02\008\f1\01\00!\c2\02\009\f1\01\00A\c2\02\00:\f1\01\00a\c2\02\00;\f1\01\00\81\c2\02\00<\f1\01\00\a1\c2\02\00=\f1\01\00\c1\c2\02\00>\f1\01\00\e1\c2\02\00?\f1\01\00\01\c3\02\00@\f1\01\00!\c3\02\00A\f1\01\00A\c3\02\00B\f1\01\00a\c3\02\00C\f1\01\00\81\c3\02\00D\f1\01\00\a1\c3\02\00E\f1\01\00\c1\c3\02\00F\f1\01\00\e1\c3\02\00G\f1\01\00\01\c4\02\00H\f1\01\00!\c4\02\00I\f1\01\00A\c4\02\00J\f1\01\00b\c4\02\00K\f1\01\00\a2\c4\02\00L\f1\01\00\e2\c4\02\00M\f1\01\00\"\c5\02\00N\f1\01\00c\c5\02\00O\f1\01\00\c2\c5\02\00j\f1\01\00\02\c6\02\00k\f1\01\00B\c6\02\00l\f1\01\00\82\c6\02\00\90\f1\01\00\c2\c6\02\00\00\f2\01\00\02\c7\02\00\01\f2\01\00B\c7\02\00\02\f2\01\00\81\c7\02\00\10\f2\01\00\a1\c7\02\00\11\f2\01\00\c1\c7\02\00\12\f2\01\00\e1\c7\02\00\13\f2\01\00\02\c8\02\00\14\f2\01\00A\c8\02\00\15\f2\01\00a\c8\02\00\16\f2\01\00\81\c8\02\00\17\f2\01\00\a1\c8\02\00\18\f2\01\00\c1\c8\02\00\19\f2\01\00\e1\c8\02\00\1a\f2\01\00\01\c9\02\00\1b\f2\01\00!\c9\02\00\1c\f2\01\00A\c9\02\00\1d\f2\01\00a\c9\02\00\1e\f2\01\00\81\c9\02\00\1f\f2\01\00\a1\c9\02\00 \f2\01\00\c1\c9\02\00!\f2\01\00\e1\c9\02\00\"\f2\01\00\01\ca\02\00#\f2\01\00!\ca\02\00$\f2\01\00A\ca\02\00%\f2\01\00a\ca\02\00&\f2\01\00\81\ca\02\00\'\f2\01\00\a1\ca\02\00(\f2\01\00\c1\ca\02\00)\f2\01\00\e1\ca\02\00*\f2\01\00\01\cb\02\00+\f2\01\00!\cb\02\00,\f2\01\00A\cb\02\00-\f2\01\00a\cb\02\00.\f2\01\00\81\cb\02\00/\f2\01\00\a1\cb\02\000\f2\01\00\c1\cb\02\001\f2\01\00\e1\cb\02\002\f2\01\00\01\cc\02\003\f2\01\00!\cc\02\004\f2\01\00A\cc\02\005\f2\01\00a\cc\02\006\f2\01\00\81\cc\02\007\f2\01\00\a1\cc\02\008\f2\01\00\c1\cc\02\009\f2\01\00\e1\cc\02\00:\f2\01\00\01\cd\02\00;\f2\01\00!\cd\02\00@\f2\01\00C\cd\02\00A\f2\01\00\a3\cd\02\00B\f2\01\00\03\ce\02\00C\f2\01\00c\ce\02\00D\f2\01\00\c3\ce\02\00E\f2\01\00#\cf\02\00F\f2\01\00\83\cf\02\00G\f2\01\00\e3\cf\02\00H\f2\01\00C\d0\02\00P\f2\01\00\a1\d0\02\00Q\f2\01\00\c1\d0\02\00\f0\fb\01\00\e1\d0\02\00\f1\fb\01\00\01\d1\02\00\f2\fb\01\00!\d1\02\00\f3\fb\01\00A\d1\02\00\f4\fb\01\00a\d1\02\00\f5\fb\01\00\81\d1\02\00\f6\fb\01\00\a1\d1\02\00\f7\fb\01\00\c1\d1\02\00\f8\fb\01\00\e1\d1\02\00\f9\fb\01\00\01\d2\02\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 90992) "p\e3\00\00\10\1e\00\00")
+ (data (i32.const 91000) "@x\00\00\00\00\00\00\a0\00\00\00\01\00\00\00\a8\00\00\00\"\00\00\00\aa\00\00\00a\00\00\00\af\00\00\00\82\00\00\00\b2\00\00\00\c1\00\00\00\b3\00\00\00\e1\00\00\00\b4\00\00\00\02\01\00\00\b5\00\00\00A\01\00\00\b8\00\00\00b\01\00\00\b9\00\00\00\a1\01\00\00\ba\00\00\00\c1\01\00\00\bc\00\00\00\e3\01\00\00\bd\00\00\00C\02\00\00\be\00\00\00\a3\02\00\002\01\00\00\02\03\00\003\01\00\00B\03\00\00?\01\00\00\82\03\00\00@\01\00\00\c2\03\00\00I\01\00\00\02\04\00\00\7f\01\00\00A\04\00\00\c4\01\00\00c\04\00\00\c5\01\00\00\c3\04\00\00\c6\01\00\00#\05\00\00\c7\01\00\00\82\05\00\00\c8\01\00\00\c2\05\00\00\c9\01\00\00\02\06\00\00\ca\01\00\00B\06\00\00\cb\01\00\00\82\06\00\00\cc\01\00\00\c2\06\00\00\f1\01\00\00\02\07\00\00\f2\01\00\00B\07\00\00\f3\01\00\00\82\07\00\00\b0\02\00\00\c1\07\00\00\b1\02\00\00\e1\07\00\00\b2\02\00\00\01\08\00\00\b3\02\00\00!\08\00\00\b4\02\00\00A\08\00\00\b5\02\00\00a\08\00\00\b6\02\00\00\81\08\00\00\b7\02\00\00\a1\08\00\00\b8\02\00\00\c1\08\00\00\d8\02\00\00\e2\08\00\00\d9\02\00\00\"\t\00\00\da\02\00\00b\t\00\00\db\02\00\00\a2\t\00\00\dc\02\00\00\e2\t\00\00\dd\02\00\00\"\n\00\00\e0\02\00\00a\n\00\00\e1\02\00\00\81\n\00\00\e2\02\00\00\a1\n\00\00\e3\02\00\00\c1\n\00\00\e4\02\00\00\e1\n\00\00z\03\00\00\02\0b\00\00\84\03\00\00B\0b\00\00\85\03\00\00\83\0b\00\00\d0\03\00\00\e1\0b\00\00\d1\03\00\00\01\0c\00\00\d2\03\00\00!\0c\00\00\d3\03\00\00B\0c\00\00\d4\03\00\00\82\0c\00\00\d5\03\00\00\c1\0c\00\00\d6\03\00\00\e1\0c\00\00\f0\03\00\00\01\0d\00\00\f1\03\00\00!\0d\00\00\f2\03\00\00A\0d\00\00\f4\03\00\00a\0d\00\00\f5\03\00\00\81\0d\00\00\f9\03\00\00\a1\0d\00\00\87\05\00\00\c2\0d\00\00u\06\00\00\02\0e\00\00v\06\00\00B\0e\00\00w\06\00\00\82\0e\00\00x\06\00\00\c2\0e\00\003\0e\00\00\02\0f\00\00\b3\0e\00\00B\0f\00\00\dc\0e\00\00\82\0f\00\00\dd\0e\00\00\c2\0f\00\00\0c\0f\00\00\01\10\00\00w\0f\00\00#\10\00\00y\0f\00\00\83\10\00\00\fc\10\00\00\e1\10\00\00,\1d\00\00\01\11\00\00-\1d\00\00!\11\00\00.\1d\00\00A\11\00\000\1d\00\00a\11\00\001\1d\00\00\81\11\00\002\1d\00\00\a1\11\00\003\1d\00\00\c1\11\00\004\1d\00\00\e1\11\00\005\1d\00\00\01\12\00\006\1d\00\00!\12\00\007\1d\00\00A\12\00\008\1d\00\00a\12\00\009\1d\00\00\81\12\00\00:\1d\00\00\a1\12\00\00<\1d\00\00\c1\12\00\00=\1d\00\00\e1\12\00\00>\1d\00\00\01\13\00\00?\1d\00\00!\13\00\00@\1d\00\00A\13\00\00A\1d\00\00a\13\00\00B\1d\00\00\81\13\00\00C\1d\00\00\a1\13\00\00D\1d\00\00\c1\13\00\00E\1d\00\00\e1\13\00\00F\1d\00\00\01\14\00\00G\1d\00\00!\14\00\00H\1d\00\00A\14\00\00I\1d\00\00a\14\00\00J\1d\00\00\81\14\00\00K\1d\00\00\a1\14\00\00L\1d\00\00\c1\14\00\00M\1d\00\00\e1\14\00\00O\1d\00\00\01\15\00\00P\1d\00\00!\15\00\00Q\1d\00\00A\15\00\00R\1d\00\00a\15\00\00S\1d\00\00\81\15\00\00T\1d\00\00\a1\15\00\00U\1d\00\00\c1\15\00\00V\1d\00\00\e1\15\00\00W\1d\00\00\01\16\00\00X\1d\00\00!\16\00\00Y\1d\00\00A\16\00\00Z\1d\00\00a\16\00\00[\1d\00\00\81\16\00\00\\\1d\00\00\a1\16\00\00]\1d\00\00\c1\16\00\00^\1d\00\00\e1\16\00\00_\1d\00\00\01\17\00\00`\1d\00\00!\17\00\00a\1d\00\00A\17\00\00b\1d\00\00a\17\00\00c\1d\00\00\81\17\00\00d\1d\00\00\a1\17\00\00e\1d\00\00\c1\17\00\00f\1d\00\00\e1\17\00\00g\1d\00\00\01\18\00\00h\1d\00\00!\18\00\00i\1d\00\00A\18\00\00j\1d\00\00a\18\00\00x\1d\00\00\81\18\00\00\9b\1d\00\00\a1\18\00\00\9c\1d\00\00\c1\18\00\00\9d\1d\00\00\e1\18\00\00\9e\1d\00\00\01\19\00\00\9f\1d\00\00!\19\00\00\a0\1d\00\00A\19\00\00\a1\1d\00\00a\19\00\00\a2\1d\00\00\81\19\00\00\a3\1d\00\00\a1\19\00\00\a4\1d\00\00\c1\19\00\00\a5\1d\00\00\e1\19\00\00\a6\1d\00\00\01\1a\00\00\a7\1d\00\00!\1a\00\00\a8\1d\00\00A\1a\00\00\a9\1d\00\00a\1a\00\00\aa\1d\00\00\81\1a\00\00\ab\1d\00\00\a1\1a\00\00\ac\1d\00\00\c1\1a\00\00\ad\1d\00\00\e1\1a\00\00\ae\1d\00\00\01\1b\00\00\af\1d\00\00!\1b\00\00\b0\1d\00\00A\1b\00\00\b1\1d\00\00a\1b\00\00\b2\1d\00\00\81\1b\00\00\b3\1d\00\00\a1\1b\00\00\b4\1d\00\00\c1\1b\00\00\b5\1d\00\00\e1\1b\00\00\b6\1d\00\00\01\1c\00\00\b7\1d\00\00!\1c\00\00\b8\1d\00\00A\1c\00\00\b9\1d\00\00a\1c\00\00\ba\1d\00\00\81\1c\00\00\bb\1d\00\00\a1\1c\00\00\bc\1d\00\00\c1\1c\00\00\bd\1d\00\00\e1\1c\00\00\be\1d\00\00\01\1d\00\00\bf\1d\00\00!\1d\00\00\9a\1e\00\00B\1d\00\00\9b\1e\00\00\82\1d\00\00\bd\1f\00\00\c2\1d\00\00\bf\1f\00\00\02\1e\00\00\c0\1f\00\00B\1e\00\00\c1\1f\00\00\83\1e\00\00\cd\1f\00\00\e3\1e\00\00\ce\1f\00\00C\1f\00\00\cf\1f\00\00\a3\1f\00\00\dd\1f\00\00\03 \00\00\de\1f\00\00c \00\00\df\1f\00\00\c3 \00\00\ed\1f\00\00#!\00\00\ee\1f\00\00\83!\00\00\fd\1f\00\00\e2!\00\00\fe\1f\00\00\"\"\00\00\00 \00\00a\"\00\00\01 \00\00\81\"\00\00\02 \00\00\a1\"\00\00\03 \00\00\c1\"\00\00\04 \00\00\e1\"\00\00\05 \00\00\01#\00\00\06 \00\00!#\00\00\07 \00\00A#\00\00\08 \00\00a#\00\00\t \00\00\81#\00\00\n \00\00\a1#\00\00\11 \00\00\c1#\00\00\17 \00\00\e2#\00\00$ \00\00!$\00\00% \00\00B$\00\00& \00\00\83$\00\00/ \00\00\e1$\00\003 \00\00\02%\00\004 \00\00C%\00\006 \00\00\a2%\00\007 \00\00\e3%\00\00< \00\00B&\00\00> \00\00\82&\00\00G \00\00\c2&\00\00H \00\00\02\'\00\00I \00\00B\'\00\00W \00\00\84\'\00\00_ \00\00\01(\00\00p \00\00!(\00\00q \00\00A(\00\00t \00\00a(\00\00u \00\00\81(\00\00v \00\00\a1(\00\00w \00\00\c1(\00\00x \00\00\e1(\00\00y \00\00\01)\00\00z \00\00!)\00\00{ \00\00A)\00\00| \00\00a)\00\00} \00\00\81)\00\00~ \00\00\a1)\00\00\7f \00\00\c1)\00\00\80 \00\00\e1)\00\00\81 \00\00\01*\00\00\82 \00\00!*\00\00\83 \00\00A*\00\00\84 \00\00a*\00\00\85 \00\00\81*\00\00\86 \00\00\a1*\00\00\87 \00\00\c1*\00\00\88 \00\00\e1*\00\00\89 \00\00\01+\00\00\8a \00\00!+\00\00\8b \00\00A+\00\00\8c \00\00a+\00\00\8d \00\00\81+\00\00\8e \00\00\a1+\00\00\90 \00\00\c1+\00\00\91 \00\00\e1+\00\00\92 \00\00\01,\00\00\93 \00\00!,\00\00\94 \00\00A,\00\00\95 \00\00a,\00\00\96 \00\00\81,\00\00\97 \00\00\a1,\00\00\98 \00\00\c1,\00\00\99 \00\00\e1,\00\00\9a \00\00\01-\00\00\9b \00\00!-\00\00\9c \00\00A-\00\00\a8 \00\00b-\00\00\00!\00\00\a3-\00\00\01!\00\00\03.\00\00\02!\00\00a.\00\00\03!\00\00\82.\00\00\05!\00\00\c3.\00\00\06!\00\00#/\00\00\07!\00\00\81/\00\00\t!\00\00\a2/\00\00\n!\00\00\e1/\00\00\0b!\00\00\010\00\00\0c!\00\00!0\00\00\0d!\00\00A0\00\00\0e!\00\00a0\00\00\0f!\00\00\810\00\00\10!\00\00\a10\00\00\11!\00\00\c10\00\00\12!\00\00\e10\00\00\13!\00\00\011\00\00\15!\00\00!1\00\00\16!\00\00B1\00\00\19!\00\00\811\00\00\1a!\00\00\a11\00\00\1b!\00\00\c11\00\00\1c!\00\00\e11\00\00\1d!\00\00\012\00\00 !\00\00\"2\00\00!!\00\00c2\00\00\"!\00\00\c22\00\00$!\00\00\013\00\00(!\00\00!3\00\00,!\00\00A3\00\00-!\00\00a3\00\00/!\00\00\813\00\000!\00\00\a13\00\001!\00\00\c13\00\003!\00\00\e13\00\004!\00\00\014\00\005!\00\00!4\00\006!\00\00A4\00\007!\00\00a4\00\008!\00\00\814\00\009!\00\00\a14\00\00;!\00\00\c34\00\00<!\00\00!5\00\00=!\00\00A5\00\00>!\00\00a5\00\00?!\00\00\815\00\00@!\00\00\a15\00\00E!\00\00\c15\00\00F!\00\00\e15\00\00G!\00\00\016\00\00H!\00\00!6\00\00I!\00\00A6\00\00P!\00\00c6\00\00Q!\00\00\c36\00\00R!\00\00$7\00\00S!\00\00\a37\00\00T!\00\00\038\00\00U!\00\00c8\00\00V!\00\00\c38\00\00W!\00\00#9\00\00X!\00\00\839\00\00Y!\00\00\e39\00\00Z!\00\00C:\00\00[!\00\00\a3:\00\00\\!\00\00\03;\00\00]!\00\00c;\00\00^!\00\00\c3;\00\00_!\00\00\"<\00\00`!\00\00a<\00\00a!\00\00\82<\00\00b!\00\00\c3<\00\00c!\00\00\"=\00\00d!\00\00a=\00\00e!\00\00\82=\00\00f!\00\00\c3=\00\00g!\00\00$>\00\00h!\00\00\a2>\00\00i!\00\00\e1>\00\00j!\00\00\02?\00\00k!\00\00C?\00\00l!\00\00\a1?\00\00m!\00\00\c1?\00\00n!\00\00\e1?\00\00o!\00\00\01@\00\00p!\00\00!@\00\00q!\00\00B@\00\00r!\00\00\83@\00\00s!\00\00\e2@\00\00t!\00\00!A\00\00u!\00\00BA\00\00v!\00\00\83A\00\00w!\00\00\e4A\00\00x!\00\00bB\00\00y!\00\00\a1B\00\00z!\00\00\c2B\00\00{!\00\00\03C\00\00|!\00\00aC\00\00}!\00\00\81C\00\00~!\00\00\a1C\00\00\7f!\00\00\c1C\00\00\89!\00\00\e3C\00\00,\"\00\00BD\00\00-\"\00\00\83D\00\00/\"\00\00\e2D\00\000\"\00\00#E\00\00`$\00\00\81E\00\00a$\00\00\a1E\00\00b$\00\00\c1E\00\00c$\00\00\e1E\00\00d$\00\00\01F\00\00e$\00\00!F\00\00f$\00\00AF\00\00g$\00\00aF\00\00h$\00\00\81F\00\00i$\00\00\a2F\00\00j$\00\00\e2F\00\00k$\00\00\"G\00\00l$\00\00bG\00\00m$\00\00\a2G\00\00n$\00\00\e2G\00\00o$\00\00\"H\00\00p$\00\00bH\00\00q$\00\00\a2H\00\00r$\00\00\e2H\00\00s$\00\00\"I\00\00t$\00\00cI\00\00u$\00\00\c3I\00\00v$\00\00#J\00\00w$\00\00\83J\00\00x$\00\00\e3J\00\00y$\00\00CK\00\00z$\00\00\a3K\00\00{$\00\00\03L\00\00|$\00\00cL\00\00}$\00\00\c4L\00\00~$\00\00DM\00\00\7f$\00\00\c4M\00\00\80$\00\00DN\00\00\81$\00\00\c4N\00\00\82$\00\00DO\00\00\83$\00\00\c4O\00\00\84$\00\00DP\00\00\85$\00\00\c4P\00\00\86$\00\00DQ\00\00\87$\00\00\c4Q\00\00\88$\00\00BR\00\00\89$\00\00\82R\00\00\8a$\00\00\c2R\00\00\8b$\00\00\02S\00\00\8c$\00\00BS\00\00\8d$\00\00\82S\00\00\8e$\00\00\c2S\00\00\8f$\00\00\02T\00\00\90$\00\00BT\00\00\91$\00\00\83T\00\00\92$\00\00\e3T\00\00\93$\00\00CU\00\00\94$\00\00\a3U\00\00\95$\00\00\03V\00\00\96$\00\00cV\00\00\97$\00\00\c3V\00\00\98$\00\00#W\00\00\99$\00\00\83W\00\00\9a$\00\00\e3W\00\00\9b$\00\00CX\00\00\9c$\00\00\a3X\00\00\9d$\00\00\03Y\00\00\9e$\00\00cY\00\00\9f$\00\00\c3Y\00\00\a0$\00\00#Z\00\00\a1$\00\00\83Z\00\00\a2$\00\00\e3Z\00\00\a3$\00\00C[\00\00\a4$\00\00\a3[\00\00\a5$\00\00\03\\\00\00\a6$\00\00c\\\00\00\a7$\00\00\c3\\\00\00\a8$\00\00#]\00\00\a9$\00\00\83]\00\00\aa$\00\00\e3]\00\00\ab$\00\00C^\00\00\ac$\00\00\a3^\00\00\ad$\00\00\03_\00\00\ae$\00\00c_\00\00\af$\00\00\c3_\00\00\b0$\00\00#`\00\00\b1$\00\00\83`\00\00\b2$\00\00\e3`\00\00\b3$\00\00Ca\00\00\b4$\00\00\a3a\00\00\b5$\00\00\03b\00\00\b6$\00\00ab\00\00\b7$\00\00\81b\00\00\b8$\00\00\a1b\00\00\b9$\00\00\c1b\00\00\ba$\00\00\e1b\00\00\bb$\00\00\01c\00\00\bc$\00\00!c\00\00\bd$\00\00Ac\00\00\be$\00\00ac\00\00\bf$\00\00\81c\00\00\c0$\00\00\a1c\00\00\c1$\00\00\c1c\00\00\c2$\00\00\e1c\00\00\c3$\00\00\01d\00\00\c4$\00\00!d\00\00\c5$\00\00Ad\00\00\c6$\00\00ad\00\00\c7$\00\00\81d\00\00\c8$\00\00\a1d\00\00\c9$\00\00\c1d\00\00\ca$\00\00\e1d\00\00\cb$\00\00\01e\00\00\cc$\00\00!e\00\00\cd$\00\00Ae\00\00\ce$\00\00ae\00\00\cf$\00\00\81e\00\00\d0$\00\00\a1e\00\00\d1$\00\00\c1e\00\00\d2$\00\00\e1e\00\00\d3$\00\00\01f\00\00\d4$\00\00!f\00\00\d5$\00\00Af\00\00\d6$\00\00af\00\00\d7$\00\00\81f\00\00\d8$\00\00\a1f\00\00\d9$\00\00\c1f\00\00\da$\00\00\e1f\00\00\db$\00\00\01g\00\00\dc$\00\00!g\00\00\dd$\00\00Ag\00\00\de$\00\00ag\00\00\df$\00\00\81g\00\00\e0$\00\00\a1g\00\00\e1$\00\00\c1g\00\00\e2$\00\00\e1g\00\00\e3$\00\00\01h\00\00\e4$\00\00!h\00\00\e5$\00\00Ah\00\00\e6$\00\00ah\00\00\e7$\00\00\81h\00\00\e8$\00\00\a1h\00\00\e9$\00\00\c1h\00\00\ea$\00\00\e1h\00\00\0c*\00\00\04i\00\00t*\00\00\83i\00\00u*\00\00\e2i\00\00v*\00\00#j\00\00|,\00\00\81j\00\00},\00\00\a1j\00\00o-\00\00\c1j\00\00\9f.\00\00\e1j\00\00\f3.\00\00\01k\00\00\00/\00\00!k\00\00\01/\00\00Ak\00\00\02/\00\00ak\00\00\03/\00\00\81k\00\00\04/\00\00\a1k\00\00\05/\00\00\c1k\00\00\06/\00\00\e1k\00\00\07/\00\00\01l\00\00\08/\00\00!l\00\00\t/\00\00Al\00\00\n/\00\00al\00\00\0b/\00\00\81l\00\00\0c/\00\00\a1l\00\00\0d/\00\00\c1l\00\00\0e/\00\00\e1l\00\00\0f/\00\00\01m\00\00\10/\00\00!m\00\00\11/\00\00Am\00\00\12/\00\00am\00\00\13/\00\00\81m\00\00\14/\00\00\a1m\00\00\15/\00\00\c1m\00\00\16/\00\00\e1m\00\00\17/\00\00\01n\00\00\18/\00\00!n\00\00\19/\00\00An\00\00\1a/\00\00an\00\00\1b/\00\00\81n\00\00\1c/\00\00\a1n\00\00\1d/\00\00\c1n\00\00\1e/\00\00\e1n\00\00\1f/\00\00\01o\00\00 /\00\00!o\00\00!/\00\00Ao\00\00\"/\00\00ao\00\00#/\00\00\81o\00\00$/\00\00\a1o\00\00%/\00\00\c1o\00\00&/\00\00\e1o\00\00\'/\00\00\01p\00\00(/\00\00!p\00\00)/\00\00Ap\00\00*/\00\00ap\00\00+/\00\00\81p\00\00,/\00\00\a1p\00\00-/\00\00\c1p\00\00./\00\00\e1p\00\00//\00\00\01q\00\000/\00\00!q\00\001/\00\00Aq\00\002/\00\00aq\00\003/\00\00\81q\00\004/\00\00\a1q\00\005/\00\00\c1q\00\006/\00\00\e1q\00\007/\00\00\01r\00\008/\00\00!r\00\009/\00\00Ar\00\00:/\00\00ar\00\00;/\00\00\81r\00\00</\00\00\a1r\00\00=/\00\00\c1r\00\00>/\00\00\e1r\00\00?/\00\00\01s\00\00@/\00\00!s\00\00A/\00\00As\00\00B/\00\00as\00\00C/\00\00\81s\00\00D/\00\00\a1s\00\00E/\00\00\c1s\00\00F/\00\00\e1s\00\00G/\00\00\01t\00\00H/\00\00!t\00\00I/\00\00At\00\00J/\00\00at\00\00K/\00\00\81t\00\00L/\00\00\a1t\00\00M/\00\00\c1t\00\00N/\00\00\e1t\00\00O/\00\00\01u\00\00P/\00\00!u\00\00Q/\00\00Au\00\00R/\00\00au\00\00S/\00\00\81u\00\00T/\00\00\a1u\00\00U/\00\00\c1u\00\00V/\00\00\e1u\00\00W/\00\00\01v\00\00X/\00\00!v\00\00Y/\00\00Av\00\00Z/\00\00av\00\00[/\00\00\81v\00\00\\/\00\00\a1v\00\00]/\00\00\c1v\00\00^/\00\00\e1v\00\00_/\00\00\01w\00\00`/\00\00!w\00\00a/\00\00Aw\00\00b/\00\00aw\00\00c/\00\00\81w\00\00d/\00\00\a1w\00\00e/\00\00\c1w\00\00f/\00\00\e1w\00\00g/\00\00\01x\00\00h/\00\00!x\00\00i/\00\00Ax\00\00j/\00\00ax\00\00k/\00\00\81x\00\00l/\00\00\a1x\00\00m/\00\00\c1x\00\00n/\00\00\e1x\00\00o/\00\00\01y\00\00p/\00\00!y\00\00q/\00\00Ay\00\00r/\00\00ay\00\00s/\00\00\81y\00\00t/\00\00\a1y\00\00u/\00\00\c1y\00\00v/\00\00\e1y\00\00w/\00\00\01z\00\00x/\00\00!z\00\00y/\00\00Az\00\00z/\00\00az\00\00{/\00\00\81z\00\00|/\00\00\a1z\00\00}/\00\00\c1z\00\00~/\00\00\e1z\00\00\7f/\00\00\01{\00\00\80/\00\00!{\00\00\81/\00\00A{\00\00\82/\00\00a{\00\00\83/\00\00\81{\00\00\84/\00\00\a1{\00\00\85/\00\00\c1{\00\00\86/\00\00\e1{\00\00\87/\00\00\01|\00\00\88/\00\00!|\00\00\89/\00\00A|\00\00\8a/\00\00a|\00\00\8b/\00\00\81|\00\00\8c/\00\00\a1|\00\00\8d/\00\00\c1|\00\00\8e/\00\00\e1|\00\00\8f/\00\00\01}\00\00\90/\00\00!}\00\00\91/\00\00A}\00\00\92/\00\00a}\00\00\93/\00\00\81}\00\00\94/\00\00\a1}\00\00\95/\00\00\c1}\00\00\96/\00\00\e1}\00\00\97/\00\00\01~\00\00\98/\00\00!~\00\00\99/\00\00A~\00\00\9a/\00\00a~\00\00\9b/\00\00\81~\00\00\9c/\00\00\a1~\00\00\9d/\00\00\c1~\00\00\9e/\00\00\e1~\00\00\9f/\00\00\01\7f\00\00\a0/\00\00!\7f\00\00\a1/\00\00A\7f\00\00\a2/\00\00a\7f\00\00\a3/\00\00\81\7f\00\00\a4/\00\00\a1\7f\00\00\a5/\00\00\c1\7f\00\00\a6/\00\00\e1\7f\00\00\a7/\00\00\01\80\00\00\a8/\00\00!\80\00\00\a9/\00\00A\80\00\00\aa/\00\00a\80\00\00\ab/\00\00\81\80\00\00\ac/\00\00\a1\80\00\00\ad/\00\00\c1\80\00\00\ae/\00\00\e1\80\00\00\af/\00\00\01\81\00\00\b0/\00\00!\81\00\00\b1/\00\00A\81\00\00\b2/\00\00a\81\00\00\b3/\00\00\81\81\00\00\b4/\00\00\a1\81\00\00\b5/\00\00\c1\81\00\00\b6/\00\00\e1\81\00\00\b7/\00\00\01\82\00\00\b8/\00\00!\82\00\00\b9/\00\00A\82\00\00\ba/\00\00a\82\00\00\bb/\00\00\81\82\00\00\bc/\00\00\a1\82\00\00\bd/\00\00\c1\82\00\00\be/\00\00\e1\82\00\00\bf/\00\00\01\83\00\00\c0/\00\00!\83\00\00\c1/\00\00A\83\00\00\c2/\00\00a\83\00\00\c3/\00\00\81\83\00\00\c4/\00\00\a1\83\00\00\c5/\00\00\c1\83\00\00\c6/\00\00\e1\83\00\00\c7/\00\00\01\84\00\00\c8/\00\00!\84\00\00\c9/\00\00A\84\00\00\ca/\00\00a\84\00\00\cb/\00\00\81\84\00\00\cc/\00\00\a1\84\00\00\cd/\00\00\c1\84\00\00\ce/\00\00\e1\84\00\00\cf/\00\00\01\85\00\00\d0/\00\00!\85\00\00\d1/\00\00A\85\00\00\d2/\00\00a\85\00\00\d3/\00\00\81\85\00\00\d4/\00\00\a1\85\00\00\d5/\00\00\c1\85\00\00\000\00\00\e1\85\00\0060\00\00\01\86\00\0080\00\00!\86\00\0090\00\00A\86\00\00:0\00\00a\86\00\00\9b0\00\00\82\86\00\00\9c0\00\00\c2\86\00\00\9f0\00\00\02\87\00\00\ff0\00\00B\87\00\0011\00\00\81\87\00\0021\00\00\a1\87\00\0031\00\00\c1\87\00\0041\00\00\e1\87\00\0051\00\00\01\88\00\0061\00\00!\88\00\0071\00\00A\88\00\0081\00\00a\88\00\0091\00\00\81\88\00\00:1\00\00\a1\88\00\00;1\00\00\c1\88\00\00<1\00\00\e1\88\00\00=1\00\00\01\89\00\00>1\00\00!\89\00\00?1\00\00A\89\00\00@1\00\00a\89\00\00A1\00\00\81\89\00\00B1\00\00\a1\89\00\00C1\00\00\c1\89\00\00D1\00\00\e1\89\00\00E1\00\00\01\8a\00\00F1\00\00!\8a\00\00G1\00\00A\8a\00\00H1\00\00a\8a\00\00I1\00\00\81\8a\00\00J1\00\00\a1\8a\00\00K1\00\00\c1\8a\00\00L1\00\00\e1\8a\00\00M1\00\00\01\8b\00\00N1\00\00!\8b\00\00O1\00\00A\8b\00\00P1\00\00a\8b\00\00Q1\00\00\81\8b\00\00R1\00\00\a1\8b\00\00S1\00\00\c1\8b\00\00T1\00\00\e1\8b\00\00U1\00\00\01\8c\00\00V1\00\00!\8c\00\00W1\00\00A\8c\00\00X1\00\00a\8c\00\00Y1\00\00\81\8c\00\00Z1\00\00\a1\8c\00\00[1\00\00\c1\8c\00\00\\1\00\00\e1\8c\00\00]1\00\00\01\8d\00\00^1\00\00!\8d\00\00_1\00\00A\8d\00\00`1\00\00a\8d\00\00a1\00\00\81\8d\00\00b1\00\00\a1\8d\00\00c1\00\00\c1\8d\00\00d1\00\00\e1\8d\00\00e1\00\00\01\8e\00\00f1\00\00!\8e\00\00g1\00\00A\8e\00\00h1\00\00a\8e\00\00i1\00\00\81\8e\00\00j1\00\00\a1\8e\00\00k1\00\00\c1\8e\00\00l1\00\00\e1\8e\00\00m1\00\00\01\8f\00\00n1\00\00!\8f\00\00o1\00\00A\8f\00\00p1\00\00a\8f\00\00q1\00\00\81\8f\00\00r1\00\00\a1\8f\00\00s1\00\00\c1\8f\00\00t1\00\00\e1\8f\00\00u1\00\00\01\90\00\00v1\00\00!\90\00\00w1\00\00A\90\00\00x1\00\00a\90\00\00y1\00\00\81\90\00\00z1\00\00\a1\90\00\00{1\00\00\c1\90\00\00|1\00\00\e1\90\00\00}1\00\00\01\91\00\00~1\00\00!\91\00\00\7f1\00\00A\91\00\00\801\00\00a\91\00\00\811\00\00\81\91\00\00\821\00\00\a1\91\00\00\831\00\00\c1\91\00\00\841\00\00\e1\91\00\00\851\00\00\01\92\00\00\861\00\00!\92\00\00\871\00\00A\92\00\00\881\00\00a\92\00\00\891\00\00\81\92\00\00\8a1\00\00\a1\92\00\00\8b1\00\00\c1\92\00\00\8c1\00\00\e1\92\00\00\8d1\00\00\01\93\00\00\8e1\00\00!\93\00\00\921\00\00A\93\00\00\931\00\00a\93\00\00\941\00\00\81\93\00\00\951\00\00\a1\93\00\00\961\00\00\c1\93\00\00\971\00\00\e1\93\00\00\981\00\00\01\94\00\00\991\00\00!\94\00\00\9a1\00\00A\94\00\00\9b1\00\00a\94\00\00\9c1\00\00\81\94\00\00\9d1\00\00\a1\94\00\00\9e1\00\00\c1\94\00\00\9f1\00\00\e1\94\00\00\002\00\00\03\95\00\00\012\00\00c\95\00\00\022\00\00\c3\95\00\00\032\00\00#\96\00\00\042\00\00\83\96\00\00\052\00\00\e3\96\00\00\062\00\00C\97\00\00\072\00\00\a3\97\00\00\082\00\00\03\98\00\00\t2\00\00c\98\00\00\n2\00\00\c3\98\00\00\0b2\00\00#\99\00\00\0c2\00\00\83\99\00\00\0d2\00\00\e3\99\00\00\0e2\00\00D\9a\00\00\0f2\00\00\c4\9a\00\00\102\00\00D\9b\00\00\112\00\00\c4\9b\00\00\122\00\00D\9c\00\00\132\00\00\c4\9c\00\00\142\00\00D\9d\00\00\152\00\00\c4\9d\00\00\162\00\00D\9e\00\00\172\00\00\c4\9e\00\00\182\00\00D\9f\00\00\192\00\00\c4\9f\00\00\1a2\00\00D\a0\00\00\1b2\00\00\c4\a0\00\00\1c2\00\00D\a1\00\00\1d2\00\00\c7\a1\00\00\1e2\00\00\a6\a2\00\00 2\00\00c\a3\00\00!2\00\00\c3\a3\00\00\"2\00\00#\a4\00\00#2\00\00\83\a4\00\00$2\00\00\e3\a4\00\00%2\00\00C\a5\00\00&2\00\00\a3\a5\00\00\'2\00\00\03\a6\00\00(2\00\00c\a6\00\00)2\00\00\c3\a6\00\00*2\00\00#\a7\00\00+2\00\00\83\a7\00\00,2\00\00\e3\a7\00\00-2\00\00C\a8\00\00.2\00\00\a3\a8\00\00/2\00\00\03\a9\00\0002\00\00c\a9\00\0012\00\00\c3\a9\00\0022\00\00#\aa\00\0032\00\00\83\aa\00\0042\00\00\e3\aa\00\0052\00\00C\ab\00\0062\00\00\a3\ab\00\0072\00\00\03\ac\00\0082\00\00c\ac\00\0092\00\00\c3\ac\00\00:2\00\00#\ad\00\00;2\00\00\83\ad\00\00<2\00\00\e3\ad\00\00=2\00\00C\ae\00\00>2\00\00\a3\ae\00\00?2\00\00\03\af\00\00@2\00\00c\af\00\00A2\00\00\c3\af\00\00B2\00\00#\b0\00\00C2\00\00\83\b0\00\00D2\00\00\e1\b0\00\00E2\00\00\01\b1\00\00F2\00\00!\b1\00\00G2\00\00A\b1\00\00P2\00\00c\b1\00\00Q2\00\00\c2\b1\00\00R2\00\00\02\b2\00\00S2\00\00B\b2\00\00T2\00\00\82\b2\00\00U2\00\00\c2\b2\00\00V2\00\00\02\b3\00\00W2\00\00B\b3\00\00X2\00\00\82\b3\00\00Y2\00\00\c2\b3\00\00Z2\00\00\02\b4\00\00[2\00\00B\b4\00\00\\2\00\00\82\b4\00\00]2\00\00\c2\b4\00\00^2\00\00\02\b5\00\00_2\00\00B\b5\00\00`2\00\00\81\b5\00\00a2\00\00\a1\b5\00\00b2\00\00\c1\b5\00\00c2\00\00\e1\b5\00\00d2\00\00\01\b6\00\00e2\00\00!\b6\00\00f2\00\00A\b6\00\00g2\00\00a\b6\00\00h2\00\00\81\b6\00\00i2\00\00\a1\b6\00\00j2\00\00\c1\b6\00\00k2\00\00\e1\b6\00\00l2\00\00\01\b7\00\00m2\00\00!\b7\00\00n2\00\00B\b7\00\00o2\00\00\82\b7\00\00p2\00\00\c2\b7\00\00q2\00\00\02\b8\00\00r2\00\00B\b8\00\00s2\00\00\82\b8\00\00t2\00\00\c2\b8\00\00u2\00\00\02\b9\00\00v2\00\00B\b9\00\00w2\00\00\82\b9\00\00x2\00\00\c2\b9\00\00y2\00\00\02\ba\00\00z2\00\00B\ba\00\00{2\00\00\82\ba\00\00|2\00\00\c5\ba\00\00}2\00\00d\bb\00\00~2\00\00\e2\bb\00\00\802\00\00!\bc\00\00\812\00\00A\bc\00\00\822\00\00a\bc\00\00\832\00\00\81\bc\00\00\842\00\00\a1\bc\00\00\852\00\00\c1\bc\00\00\862\00\00\e1\bc\00\00\872\00\00\01\bd\00\00\882\00\00!\bd\00\00\892\00\00A\bd\00\00\8a2\00\00a\bd\00\00\8b2\00\00\81\bd\00\00\8c2\00\00\a1\bd\00\00\8d2\00\00\c1\bd\00\00\8e2\00\00\e1\bd\00\00\8f2\00\00\01\be\00\00\902\00\00!\be\00\00\912\00\00A\be\00\00\922\00\00a\be\00\00\932\00\00\81\be\00\00\942\00\00\a1\be\00\00\952\00\00\c1\be\00\00\962\00\00\e1\be\00\00\972\00\00\01\bf\00\00\982\00\00!\bf\00\00\992\00\00A\bf\00\00\9a2\00\00a\bf\00\00\9b2\00\00\81\bf\00\00\9c2\00\00\a1\bf\00\00\9d2\00\00\c1\bf\00\00\9e2\00\00\e1\bf\00\00\9f2\00\00\01\c0\00\00\a02\00\00!\c0\00\00\a12\00\00A\c0\00\00\a22\00\00a\c0\00\00\a32\00\00\81\c0\00\00\a42\00\00\a1\c0\00\00\a52\00\00\c1\c0\00\00\a62\00\00\e1\c0\00\00\a72\00\00\01\c1\00\00\a82\00\00!\c1\00\00\a92\00\00A\c1\00\00\aa2\00\00a\c1\00\00\ab2\00\00\81\c1\00\00\ac2\00\00\a1\c1\00\00\ad2\00\00\c1\c1\00\00\ae2\00\00\e1\c1\00\00\af2\00\00\01\c2\00\00\b02\00\00!\c2\00\00\b12\00\00B\c2\00\00\b22\00\00\82\c2\00\00\b32\00\00\c2\c2\00\00\b42\00\00\02\c3\00\00\b52\00\00B\c3\00\00\b62\00\00\82\c3\00\00\b72\00\00\c2\c3\00\00\b82\00\00\02\c4\00\00\b92\00\00B\c4\00\00\ba2\00\00\82\c4\00\00\bb2\00\00\c2\c4\00\00\bc2\00\00\02\c5\00\00\bd2\00\00B\c5\00\00\be2\00\00\82\c5\00\00\bf2\00\00\c2\c5\00\00\c02\00\00\02\c6\00\00\c12\00\00B\c6\00\00\c22\00\00\82\c6\00\00\c32\00\00\c2\c6\00\00\c42\00\00\02\c7\00\00\c52\00\00B\c7\00\00\c62\00\00\82\c7\00\00\c72\00\00\c2\c7\00\00\c82\00\00\02\c8\00\00\c92\00\00C\c8\00\00\ca2\00\00\a3\c8\00\00\cb2\00\00\03\c9\00\00\cc2\00\00b\c9\00\00\cd2\00\00\a3\c9\00\00\ce2\00\00\02\ca\00\00\cf2\00\00C\ca\00\00\d02\00\00\a1\ca\00\00\d12\00\00\c1\ca\00\00\d22\00\00\e1\ca\00\00\d32\00\00\01\cb\00\00\d42\00\00!\cb\00\00\d52\00\00A\cb\00\00\d62\00\00a\cb\00\00\d72\00\00\81\cb\00\00\d82\00\00\a1\cb\00\00\d92\00\00\c1\cb\00\00\da2\00\00\e1\cb\00\00\db2\00\00\01\cc\00\00\dc2\00\00!\cc\00\00\dd2\00\00A\cc\00\00\de2\00\00a\cc\00\00\df2\00\00\81\cc\00\00\e02\00\00\a1\cc\00\00\e12\00\00\c1\cc\00\00\e22\00\00\e1\cc\00\00\e32\00\00\01\cd\00\00\e42\00\00!\cd\00\00\e52\00\00A\cd\00\00\e62\00\00a\cd\00\00\e72\00\00\81\cd\00\00\e82\00\00\a1\cd\00\00\e92\00\00\c1\cd\00\00\ea2\00\00\e1\cd\00\00\eb2\00\00\01\ce\00\00\ec2\00\00!\ce\00\00\ed2\00\00A\ce\00\00\ee2\00\00a\ce\00\00\ef2\00\00\81\ce\00\00\f02\00\00\a1\ce\00\00\f12\00\00\c1\ce\00\00\f22\00\00\e1\ce\00\00\f32\00\00\01\cf\00\00\f42\00\00!\cf\00\00\f52\00\00A\cf\00\00\f62\00\00a\cf\00\00\f72\00\00\81\cf\00\00\f82\00\00\a1\cf\00\00\f92\00\00\c1\cf\00\00\fa2\00\00\e1\cf\00\00\fb2\00\00\01\d0\00\00\fc2\00\00!\d0\00\00\fd2\00\00A\d0\00\00\fe2\00\00a\d0\00\00\ff2\00\00\82\d0\00\00\003\00\00\c5\d0\00\00\013\00\00d\d1\00\00\023\00\00\e5\d1\00\00\033\00\00\83\d2\00\00\043\00\00\e5\d2\00\00\053\00\00\83\d3\00\00\063\00\00\e3\d3\00\00\073\00\00F\d4\00\00\083\00\00\04\d5\00\00\t3\00\00\83\d5\00\00\n3\00\00\e3\d5\00\00\0b3\00\00C\d6\00\00\0c3\00\00\a4\d6\00\00\0d3\00\00$\d7\00\00\0e3\00\00\a4\d7\00\00\0f3\00\00$\d8\00\00\103\00\00\a4\d8\00\00\113\00\00$\d9\00\00\123\00\00\a4\d9\00\00\133\00\00&\da\00\00\143\00\00\e2\da\00\00\153\00\00&\db\00\00\163\00\00\e6\db\00\00\173\00\00\a5\dc\00\00\183\00\00D\dd\00\00\193\00\00\c6\dd\00\00\1a3\00\00\86\de\00\00\1b3\00\00D\df\00\00\1c3\00\00\c3\df\00\00\1d3\00\00#\e0\00\00\1e3\00\00\84\e0\00\00\1f3\00\00\04\e1\00\00 3\00\00\85\e1\00\00!3\00\00%\e2\00\00\"3\00\00\c3\e2\00\00#3\00\00#\e3\00\00$3\00\00\84\e3\00\00%3\00\00\03\e4\00\00&3\00\00c\e4\00\00\'3\00\00\c2\e4\00\00(3\00\00\02\e5\00\00)3\00\00C\e5\00\00*3\00\00\a3\e5\00\00+3\00\00\06\e6\00\00,3\00\00\c4\e6\00\00-3\00\00E\e7\00\00.3\00\00\e6\e7\00\00/3\00\00\a4\e8\00\0003\00\00#\e9\00\0013\00\00\83\e9\00\0023\00\00\e6\e9\00\0033\00\00\a4\ea\00\0043\00\00&\eb\00\0053\00\00\e3\eb\00\0063\00\00E\ec\00\0073\00\00\e3\ec\00\0083\00\00D\ed\00\0093\00\00\c3\ed\00\00:3\00\00$\ee\00\00;3\00\00\a5\ee\00\00<3\00\00D\ef\00\00=3\00\00\c5\ef\00\00>3\00\00d\f0\00\00?3\00\00\e2\f0\00\00@3\00\00%\f1\00\00A3\00\00\c3\f1\00\00B3\00\00#\f2\00\00C3\00\00\84\f2\00\00D3\00\00\03\f3\00\00E3\00\00c\f3\00\00F3\00\00\c3\f3\00\00G3\00\00%\f4\00\00H3\00\00\c4\f4\00\00I3\00\00B\f5\00\00J3\00\00\86\f5\00\00K3\00\00C\f6\00\00L3\00\00\a5\f6\00\00M3\00\00D\f7\00\00N3\00\00\c4\f7\00\00O3\00\00C\f8\00\00P3\00\00\a3\f8\00\00Q3\00\00\04\f9\00\00R3\00\00\82\f9\00\00S3\00\00\c4\f9\00\00T3\00\00E\fa\00\00U3\00\00\e2\fa\00\00V3\00\00&\fb\00\00W3\00\00\e3\fb\00\00X3\00\00B\fc\00\00Y3\00\00\82\fc\00\00Z3\00\00\c2\fc\00\00[3\00\00\02\fd\00\00\\3\00\00B\fd\00\00]3\00\00\82\fd\00\00^3\00\00\c2\fd\00\00_3\00\00\02\fe\00\00`3\00\00B\fe\00\00a3\00\00\82\fe\00\00b3\00\00\c3\fe\00\00c3\00\00#\ff\00\00d3\00\00\83\ff\00\00e3\00\00\e3\ff\00\00f3\00\00C\00\01\00g3\00\00\a3\00\01\00h3\00\00\03\01\01\00i3\00\00c\01\01\00j3\00\00\c3\01\01\00k3\00\00#\02\01\00l3\00\00\83\02\01\00m3\00\00\e3\02\01\00n3\00\00C\03\01\00o3\00\00\a3\03\01\00p3\00\00\03\04\01\00q3\00\00c\04\01\00r3\00\00\c2\04\01\00s3\00\00\02\05\01\00t3\00\00C\05\01\00u3\00\00\a2\05\01\00v3\00\00\e2\05\01\00w3\00\00\"\06\01\00x3\00\00c\06\01\00y3\00\00\c3\06\01\00z3\00\00\"\07\01\00{3\00\00b\07\01\00|3\00\00\a2\07\01\00}3\00\00\e2\07\01\00~3\00\00\"\08\01\00\7f3\00\00d\08\01\00\803\00\00\e2\08\01\00\813\00\00\"\t\01\00\823\00\00b\t\01\00\833\00\00\a2\t\01\00\843\00\00\e2\t\01\00\853\00\00\"\n\01\00\863\00\00b\n\01\00\873\00\00\a2\n\01\00\883\00\00\e3\n\01\00\893\00\00D\0b\01\00\8a3\00\00\c2\0b\01\00\8b3\00\00\02\0c\01\00\8c3\00\00B\0c\01\00\8d3\00\00\82\0c\01\00\8e3\00\00\c2\0c\01\00\8f3\00\00\02\0d\01\00\903\00\00B\0d\01\00\913\00\00\83\0d\01\00\923\00\00\e3\0d\01\00\933\00\00C\0e\01\00\943\00\00\a3\0e\01\00\953\00\00\02\0f\01\00\963\00\00B\0f\01\00\973\00\00\82\0f\01\00\983\00\00\c2\0f\01\00\993\00\00\02\10\01\00\9a3\00\00B\10\01\00\9b3\00\00\82\10\01\00\9c3\00\00\c2\10\01\00\9d3\00\00\02\11\01\00\9e3\00\00B\11\01\00\9f3\00\00\83\11\01\00\a03\00\00\e3\11\01\00\a13\00\00B\12\01\00\a23\00\00\83\12\01\00\a33\00\00\e3\12\01\00\a43\00\00C\13\01\00\a53\00\00\a2\13\01\00\a63\00\00\e3\13\01\00\a73\00\00C\14\01\00\a83\00\00\a4\14\01\00\a93\00\00\"\15\01\00\aa3\00\00c\15\01\00\ab3\00\00\c3\15\01\00\ac3\00\00#\16\01\00\ad3\00\00\83\16\01\00\ae3\00\00\e5\16\01\00\af3\00\00\86\17\01\00\b03\00\00B\18\01\00\b13\00\00\82\18\01\00\b23\00\00\c2\18\01\00\b33\00\00\02\19\01\00\b43\00\00B\19\01\00\b53\00\00\82\19\01\00\b63\00\00\c2\19\01\00\b73\00\00\02\1a\01\00\b83\00\00B\1a\01\00\b93\00\00\82\1a\01\00\ba3\00\00\c2\1a\01\00\bb3\00\00\02\1b\01\00\bc3\00\00B\1b\01\00\bd3\00\00\82\1b\01\00\be3\00\00\c2\1b\01\00\bf3\00\00\02\1c\01\00\c03\00\00B\1c\01\00\c13\00\00\82\1c\01\00\c23\00\00\c4\1c\01\00\c33\00\00B\1d\01\00\c43\00\00\82\1d\01\00\c53\00\00\c2\1d\01\00\c63\00\00\04\1e\01\00\c73\00\00\83\1e\01\00\c83\00\00\e2\1e\01\00\c93\00\00\"\1f\01\00\ca3\00\00b\1f\01\00\cb3\00\00\a2\1f\01\00\cc3\00\00\e2\1f\01\00\cd3\00\00\" \01\00\ce3\00\00b \01\00\cf3\00\00\a2 \01\00\d03\00\00\e2 \01\00\d13\00\00\"!\01\00\d23\00\00c!\01\00\d33\00\00\c2!\01\00\d43\00\00\02\"\01\00\d53\00\00C\"\01\00\d63\00\00\a3\"\01\00\d73\00\00\02#\01\00\d83\00\00D#\01\00\d93\00\00\c3#\01\00\da3\00\00\"$\01\00\db3\00\00b$\01\00\dc3\00\00\a2$\01\00\dd3\00\00\e2$\01\00\de3\00\00#%\01\00\df3\00\00\83%\01\00\e03\00\00\e2%\01\00\e13\00\00\"&\01\00\e23\00\00b&\01\00\e33\00\00\a2&\01\00\e43\00\00\e2&\01\00\e53\00\00\"\'\01\00\e63\00\00b\'\01\00\e73\00\00\a2\'\01\00\e83\00\00\e2\'\01\00\e93\00\00#(\01\00\ea3\00\00\83(\01\00\eb3\00\00\e3(\01\00\ec3\00\00C)\01\00\ed3\00\00\a3)\01\00\ee3\00\00\03*\01\00\ef3\00\00c*\01\00\f03\00\00\c3*\01\00\f13\00\00#+\01\00\f23\00\00\83+\01\00\f33\00\00\e3+\01\00\f43\00\00C,\01\00\f53\00\00\a3,\01\00\f63\00\00\03-\01\00\f73\00\00c-\01\00\f83\00\00\c3-\01\00\f93\00\00#.\01\00\fa3\00\00\83.\01\00\fb3\00\00\e3.\01\00\fc3\00\00C/\01\00\fd3\00\00\a3/\01\00\fe3\00\00\030\01\00\ff3\00\00c0\01\00\9c\a6\00\00\c10\01\00\9d\a6\00\00\e10\01\00p\a7\00\00\011\01\00\f2\a7\00\00!1\01\00\f3\a7\00\00A1\01\00\f4\a7\00\00a1\01\00\f8\a7\00\00\811\01\00\f9\a7\00\00\a11\01\00\\\ab\00\00\c11\01\00]\ab\00\00\e11\01\00^\ab\00\00\012\01\00_\ab\00\00!2\01\00i\ab\00\00A2\01\00\00\fb\00\00b2\01\00\01\fb\00\00\a22\01\00\02\fb\00\00\e22\01\00\03\fb\00\00#3\01\00\04\fb\00\00\833\01\00\05\fb\00\00\e23\01\00\06\fb\00\00\"4\01\00\13\fb\00\00b4\01\00\14\fb\00\00\a24\01\00\15\fb\00\00\e24\01\00\16\fb\00\00\"5\01\00\17\fb\00\00b5\01\00 \fb\00\00\a15\01\00!\fb\00\00\c15\01\00\"\fb\00\00\e15\01\00#\fb\00\00\016\01\00$\fb\00\00!6\01\00%\fb\00\00A6\01\00&\fb\00\00a6\01\00\'\fb\00\00\816\01\00(\fb\00\00\a16\01\00)\fb\00\00\c16\01\00O\fb\00\00\e26\01\00P\fb\00\00!7\01\00Q\fb\00\00A7\01\00R\fb\00\00a7\01\00S\fb\00\00\817\01\00T\fb\00\00\a17\01\00U\fb\00\00\c17\01\00V\fb\00\00\e17\01\00W\fb\00\00\018\01\00X\fb\00\00!8\01\00Y\fb\00\00A8\01\00Z\fb\00\00a8\01\00[\fb\00\00\818\01\00\\\fb\00\00\a18\01\00]\fb\00\00\c18\01\00^\fb\00\00\e18\01\00_\fb\00\00\019\01\00`\fb\00\00!9\01\00a\fb\00\00A9\01\00b\fb\00\00a9\01\00c\fb\00\00\819\01\00d\fb\00\00\a19\01\00e\fb\00\00\c19\01\00f\fb\00\00\e19\01\00g\fb\00\00\01:\01\00h\fb\00\00!:\01\00i\fb\00\00A:\01\00j\fb\00\00a:\01\00k\fb\00\00\81:\01\00l\fb\00\00\a1:\01\00m\fb\00\00\c1:\01\00n\fb\00\00\e1:\01\00o\fb\00\00\01;\01\00p\fb\00\00!;\01\00q\fb\00\00A;\01\00r\fb\00\00a;\01\00s\fb\00\00\81;\01\00t\fb\00\00\a1;\01\00u\fb\00\00\c1;\01\00v\fb\00\00\e1;\01\00w\fb\00\00\01<\01\00x\fb\00\00!<\01\00y\fb\00\00A<\01\00z\fb\00\00a<\01\00{\fb\00\00\81<\01\00|\fb\00\00\a1<\01\00}\fb\00\00\c1<\01\00~\fb\00\00\e1<\01\00\7f\fb\00\00\01=\01\00\80\fb\00\00!=\01\00\81\fb\00\00A=\01\00\82\fb\00\00a=\01\00\83\fb\00\00\81=\01\00\84\fb\00\00\a1=\01\00\85\fb\00\00\c1=\01\00\86\fb\00\00\e1=\01\00\87\fb\00\00\01>\01\00\88\fb\00\00!>\01\00\89\fb\00\00A>\01\00\8a\fb\00\00a>\01\00\8b\fb\00\00\81>\01\00\8c\fb\00\00\a1>\01\00\8d\fb\00\00\c1>\01\00\8e\fb\00\00\e1>\01\00\8f\fb\00\00\01?\01\00\90\fb\00\00!?\01\00\91\fb\00\00A?\01\00\92\fb\00\00a?\01\00\93\fb\00\00\81?\01\00\94\fb\00\00\a1?\01\00\95\fb\00\00\c1?\01\00\96\fb\00\00\e1?\01\00\97\fb\00\00\01@\01\00\98\fb\00\00!@\01\00\99\fb\00\00A@\01\00\9a\fb\00\00a@\01\00\9b\fb\00\00\81@\01\00\9c\fb\00\00\a1@\01\00\9d\fb\00\00\c1@\01\00\9e\fb\00\00\e1@\01\00\9f\fb\00\00\01A\01\00\a0\fb\00\00!A\01\00\a1\fb\00\00AA\01\00\a2\fb\00\00aA\01\00\a3\fb\00\00\81A\01\00\a4\fb\00\00\a2A\01\00\a5\fb\00\00\e2A\01\00\a6\fb\00\00!B\01\00\a7\fb\00\00AB\01\00\a8\fb\00\00aB\01\00\a9\fb\00\00\81B\01\00\aa\fb\00\00\a1B\01\00\ab\fb\00\00\c1B\01\00\ac\fb\00\00\e1B\01\00\ad\fb\00\00\01C\01\00\ae\fb\00\00!C\01\00\af\fb\00\00AC\01\00\b0\fb\00\00bC\01\00\b1\fb\00\00\a2C\01\00\d3\fb\00\00\e1C\01\00\d4\fb\00\00\01D\01\00\d5\fb\00\00!D\01\00\d6\fb\00\00AD\01\00\d7\fb\00\00aD\01\00\d8\fb\00\00\81D\01\00\d9\fb\00\00\a1D\01\00\da\fb\00\00\c1D\01\00\db\fb\00\00\e1D\01\00\dc\fb\00\00\01E\01\00\dd\fb\00\00\"E\01\00\de\fb\00\00aE\01\00\df\fb\00\00\81E\01\00\e0\fb\00\00\a1E\01\00\e1\fb\00\00\c1E\01\00\e2\fb\00\00\e1E\01\00\e3\fb\00\00\01F\01\00\e4\fb\00\00!F\01\00\e5\fb\00\00AF\01\00\e6\fb\00\00aF\01\00\e7\fb\00\00\81F\01\00\e8\fb\00\00\a1F\01\00\e9\fb\00\00\c1F\01\00\ea\fb\00\00\e3F\01\00\eb\fb\00\00CG\01\00\ec\fb\00\00\a3G\01\00\ed\fb\00\00\03H\01\00\ee\fb\00\00cH\01\00\ef\fb\00\00\c3H\01\00\f0\fb\00\00#I\01\00\f1\fb\00\00\83I\01\00\f2\fb\00\00\e3I\01\00\f3\fb\00\00CJ\01\00\f4\fb\00\00\a3J\01\00\f5\fb\00\00\03K\01\00\f6\fb\00\00cK\01\00\f7\fb\00\00\c3K\01\00\f8\fb\00\00#L\01\00\f9\fb\00\00\83L\01\00\fa\fb\00\00\e3L\01\00\fb\fb\00\00CM\01\00\fc\fb\00\00\a1M\01\00\fd\fb\00\00\c1M\01\00\fe\fb\00\00\e1M\01\00\ff\fb\00\00\01N\01\00\00\fc\00\00#N\01\00\01\fc\00\00\83N\01\00\02\fc\00\00\e3N\01\00\03\fc\00\00CO\01\00\04\fc\00\00\a3O\01\00\05\fc\00\00\02P\01\00\06\fc\00\00BP\01\00\07\fc\00\00\82P\01\00\08\fc\00\00\c2P\01\00\t\fc\00\00\02Q\01\00\n\fc\00\00BQ\01\00\0b\fc\00\00\82Q\01\00\0c\fc\00\00\c2Q\01\00\0d\fc\00\00\02R\01\00\0e\fc\00\00BR\01\00\0f\fc\00\00\82R\01\00\10\fc\00\00\c2R\01\00\11\fc\00\00\02S\01\00\12\fc\00\00BS\01\00\13\fc\00\00\82S\01\00\14\fc\00\00\c2S\01\00\15\fc\00\00\02T\01\00\16\fc\00\00BT\01\00\17\fc\00\00\82T\01\00\18\fc\00\00\c2T\01\00\19\fc\00\00\02U\01\00\1a\fc\00\00BU\01\00\1b\fc\00\00\82U\01\00\1c\fc\00\00\c2U\01\00\1d\fc\00\00\02V\01\00\1e\fc\00\00BV\01\00\1f\fc\00\00\82V\01\00 \fc\00\00\c2V\01\00!\fc\00\00\02W\01\00\"\fc\00\00BW\01\00#\fc\00\00\82W\01\00$\fc\00\00\c2W\01\00%\fc\00\00\02X\01\00&\fc\00\00BX\01\00\'\fc\00\00\82X\01\00(\fc\00\00\c2X\01\00)\fc\00\00\02Y\01\00*\fc\00\00BY\01\00+\fc\00\00\82Y\01\00,\fc\00\00\c2Y\01\00-\fc\00\00\02Z\01\00.\fc\00\00BZ\01\00/\fc\00\00\82Z\01\000\fc\00\00\c2Z\01\001\fc\00\00\02[\01\002\fc\00\00B[\01\003\fc\00\00\82[\01\004\fc\00\00\c2[\01\005\fc\00\00\02\\\01\006\fc\00\00B\\\01\007\fc\00\00\82\\\01\008\fc\00\00\c2\\\01\009\fc\00\00\02]\01\00:\fc\00\00B]\01\00;\fc\00\00\82]\01\00<\fc\00\00\c2]\01\00=\fc\00\00\02^\01\00>\fc\00\00B^\01\00?\fc\00\00\82^\01\00@\fc\00\00\c2^\01\00A\fc\00\00\02_\01\00B\fc\00\00B_\01\00C\fc\00\00\82_\01\00D\fc\00\00\c2_\01\00E\fc\00\00\02`\01\00F\fc\00\00B`\01\00G\fc\00\00\82`\01\00H\fc\00\00\c2`\01\00I\fc\00\00\02a\01\00J\fc\00\00Ba\01\00K\fc\00\00\82a\01\00L\fc\00\00\c2a\01\00M\fc\00\00\02b\01\00N\fc\00\00Bb\01\00O\fc\00\00\82b\01\00P\fc\00\00\c2b\01\00Q\fc\00\00\02c\01\00R\fc\00\00Bc\01\00S\fc\00\00\82c\01\00T\fc\00\00\c2c\01\00U\fc\00\00\02d\01\00V\fc\00\00Bd\01\00W\fc\00\00\82d\01\00X\fc\00\00\c2d\01\00Y\fc\00\00\02e\01\00Z\fc\00\00Be\01\00[\fc\00\00\82e\01\00\\\fc\00\00\c2e\01\00]\fc\00\00\02f\01\00^\fc\00\00Cf\01\00_\fc\00\00\a3f\01\00`\fc\00\00\03g\01\00a\fc\00\00cg\01\00b\fc\00\00\c3g\01\00c\fc\00\00#h\01\00d\fc\00\00\83h\01\00e\fc\00\00\e3h\01\00f\fc\00\00Ci\01\00g\fc\00\00\a3i\01\00h\fc\00\00\03j\01\00i\fc\00\00cj\01\00j\fc\00\00\c2j\01\00k\fc\00\00\02k\01\00l\fc\00\00Bk\01\00m\fc\00\00\82k\01\00n\fc\00\00\c2k\01\00o\fc\00\00\02l\01\00p\fc\00\00Bl\01\00q\fc\00\00\82l\01\00r\fc\00\00\c2l\01\00s\fc\00\00\02m\01\00t\fc\00\00Bm\01\00u\fc\00\00\82m\01\00v\fc\00\00\c2m\01\00w\fc\00\00\02n\01\00x\fc\00\00Bn\01\00y\fc\00\00\82n\01\00z\fc\00\00\c2n\01\00{\fc\00\00\02o\01\00|\fc\00\00Bo\01\00}\fc\00\00\82o\01\00~\fc\00\00\c2o\01\00\7f\fc\00\00\02p\01\00\80\fc\00\00Bp\01\00\81\fc\00\00\82p\01\00\82\fc\00\00\c2p\01\00\83\fc\00\00\02q\01\00\84\fc\00\00Bq\01\00\85\fc\00\00\82q\01\00\86\fc\00\00\c2q\01\00\87\fc\00\00\02r\01\00\88\fc\00\00Br\01\00\89\fc\00\00\82r\01\00\8a\fc\00\00\c2r\01\00\8b\fc\00\00\02s\01\00\8c\fc\00\00Bs\01\00\8d\fc\00\00\82s\01\00\8e\fc\00\00\c2s\01\00\8f\fc\00\00\02t\01\00\90\fc\00\00Bt\01\00\91\fc\00\00\82t\01\00\92\fc\00\00\c2t\01\00\93\fc\00\00\02u\01\00\94\fc\00\00Bu\01\00\95\fc\00\00\82u\01\00\96\fc\00\00\c2u\01\00\97\fc\00\00\03v\01\00\98\fc\00\00cv\01\00\99\fc\00\00\c3v\01\00\9a\fc\00\00#w\01\00\9b\fc\00\00\83w\01\00\9c\fc\00\00\e2w\01\00\9d\fc\00\00\"x\01\00\9e\fc\00\00bx\01\00\9f\fc\00\00\a2x\01\00\a0\fc\00\00\e2x\01\00\a1\fc\00\00\"y\01\00\a2\fc\00\00by\01\00\a3\fc\00\00\a2y\01\00\a4\fc\00\00\e2y\01\00\a5\fc\00\00\"z\01\00\a6\fc\00\00bz\01\00\a7\fc\00\00\a2z\01\00\a8\fc\00\00\e2z\01\00\a9\fc\00\00\"{\01\00\aa\fc\00\00b{\01\00\ab\fc\00\00\a2{\01\00\ac\fc\00\00\e2{\01\00\ad\fc\00\00\"|\01\00\ae\fc\00\00b|\01\00\af\fc\00\00\a2|\01\00\b0\fc\00\00\e2|\01\00\b1\fc\00\00\"}\01\00\b2\fc\00\00b}\01\00\b3\fc\00\00\a2}\01\00\b4\fc\00\00\e2}\01\00\b5\fc\00\00\"~\01\00\b6\fc\00\00b~\01\00\b7\fc\00\00\a2~\01\00\b8\fc\00\00\e2~\01\00\b9\fc\00\00\"\7f\01\00\ba\fc\00\00b\7f\01\00\bb\fc\00\00\a2\7f\01\00\bc\fc\00\00\e2\7f\01\00\bd\fc\00\00\"\80\01\00\be\fc\00\00b\80\01\00\bf\fc\00\00\a2\80\01\00\c0\fc\00\00\e2\80\01\00\c1\fc\00\00\"\81\01\00\c2\fc\00\00b\81\01\00\c3\fc\00\00\a2\81\01\00\c4\fc\00\00\e2\81\01\00\c5\fc\00\00\"\82\01\00\c6\fc\00\00b\82\01\00\c7\fc\00\00\a2\82\01\00\c8\fc\00\00\e2\82\01\00\c9\fc\00\00\"\83\01\00\ca\fc\00\00b\83\01\00\cb\fc\00\00\a2\83\01\00\cc\fc\00\00\e2\83\01\00\cd\fc\00\00\"\84\01\00\ce\fc\00\00b\84\01\00\cf\fc\00\00\a2\84\01\00\d0\fc\00\00\e2\84\01\00\d1\fc\00\00\"\85\01\00\d2\fc\00\00b\85\01\00\d3\fc\00\00\a2\85\01\00\d4\fc\00\00\e2\85\01\00\d5\fc\00\00\"\86\01\00\d6\fc\00\00b\86\01\00\d7\fc\00\00\a2\86\01\00\d8\fc\00\00\e2\86\01\00\d9\fc\00\00\"\87\01\00\da\fc\00\00b\87\01\00\db\fc\00\00\a2\87\01\00\dc\fc\00\00\e2\87\01\00\dd\fc\00\00\"\88\01\00\de\fc\00\00b\88\01\00\df\fc\00\00\a3\88\01\00\e0\fc\00\00\03\89\01\00\e1\fc\00\00b\89\01\00\e2\fc\00\00\a2\89\01\00\e3\fc\00\00\e2\89\01\00\e4\fc\00\00\"\8a\01\00\e5\fc\00\00b\8a\01\00\e6\fc\00\00\a2\8a\01\00\e7\fc\00\00\e2\8a\01\00\e8\fc\00\00\"\8b\01\00\e9\fc\00\00b\8b\01\00\ea\fc\00\00\a2\8b\01\00\eb\fc\00\00\e2\8b\01\00\ec\fc\00\00\"\8c\01\00\ed\fc\00\00b\8c\01\00\ee\fc\00\00\a2\8c\01\00\ef\fc\00\00\e2\8c\01\00\f0\fc\00\00\"\8d\01\00\f1\fc\00\00b\8d\01\00\f2\fc\00\00\a3\8d\01\00\f3\fc\00\00\03\8e\01\00\f4\fc\00\00c\8e\01\00\f5\fc\00\00\c2\8e\01\00\f6\fc\00\00\02\8f\01\00\f7\fc\00\00B\8f\01\00\f8\fc\00\00\82\8f\01\00\f9\fc\00\00\c2\8f\01\00\fa\fc\00\00\02\90\01\00\fb\fc\00\00B\90\01\00\fc\fc\00\00\82\90\01\00\fd\fc\00\00\c2\90\01\00\fe\fc\00\00\02\91\01\00\ff\fc\00\00B\91\01\00\00\fd\00\00\82\91\01\00\01\fd\00\00\c2\91\01\00\02\fd\00\00\02\92\01\00\03\fd\00\00B\92\01\00\04\fd\00\00\82\92\01\00\05\fd\00\00\c2\92\01\00\06\fd\00\00\02\93\01\00\07\fd\00\00B\93\01\00\08\fd\00\00\82\93\01\00\t\fd\00\00\c2\93\01\00\n\fd\00\00\02\94\01\00\0b\fd\00\00B\94\01\00\0c\fd\00\00\82\94\01\00\0d\fd\00\00\c2\94\01\00\0e\fd\00\00\02\95\01\00\0f\fd\00\00B\95\01\00\10\fd\00\00\82\95\01\00\11\fd\00\00\c2\95\01\00\12\fd\00\00\02\96\01\00\13\fd\00\00B\96\01\00\14\fd\00\00\82\96\01\00\15\fd\00\00\c2\96\01\00\16\fd\00\00\02\97\01\00\17\fd\00\00B\97\01\00\18\fd\00\00\82\97\01\00\19\fd\00\00\c2\97\01\00\1a\fd\00\00\02\98\01\00\1b\fd\00\00B\98\01\00\1c\fd\00\00\82\98\01\00\1d\fd\00\00\c2\98\01\00\1e\fd\00\00\02\99\01\00\1f\fd\00\00B\99\01\00 \fd\00\00\82\99\01\00!\fd\00\00\c2\99\01\00\"\fd\00\00\02\9a\01\00#\fd\00\00B\9a\01\00$\fd\00\00\82\9a\01\00%\fd\00\00\c2\9a\01\00&\fd\00\00\02\9b\01\00\'\fd\00\00B\9b\01\00(\fd\00\00\82\9b\01\00)\fd\00\00\c2\9b\01\00*\fd\00\00\02\9c\01\00+\fd\00\00B\9c\01\00,\fd\00\00\82\9c\01\00-\fd\00\00\c2\9c\01\00.\fd\00\00\02\9d\01\00/\fd\00\00B\9d\01\000\fd\00\00\82\9d\01\001\fd\00\00\c2\9d\01\002\fd\00\00\02\9e\01\003\fd\00\00B\9e\01\004\fd\00\00\82\9e\01\005\fd\00\00\c2\9e\01\006\fd\00\00\02\9f\01\007\fd\00\00B\9f\01\008\fd\00\00\82\9f\01\009\fd\00\00\c2\9f\01\00:\fd\00\00\02\a0\01\00;\fd\00\00B\a0\01\00<\fd\00\00\82\a0\01\00=\fd\00\00\c2\a0\01\00P\fd\00\00\03\a1\01\00Q\fd\00\00c\a1\01\00R\fd\00\00\c3\a1\01\00S\fd\00\00#\a2\01\00T\fd\00\00\83\a2\01\00U\fd\00\00\e3\a2\01\00V\fd\00\00C\a3\01\00W\fd\00\00\a3\a3\01\00X\fd\00\00\03\a4\01\00Y\fd\00\00c\a4\01\00Z\fd\00\00\c3\a4\01\00[\fd\00\00#\a5\01\00\\\fd\00\00\83\a5\01\00]\fd\00\00\e3\a5\01\00^\fd\00\00C\a6\01\00_\fd\00\00\a3\a6\01\00`\fd\00\00\03\a7\01\00a\fd\00\00c\a7\01\00b\fd\00\00\c3\a7\01\00c\fd\00\00#\a8\01\00d\fd\00\00\83\a8\01\00e\fd\00\00\e3\a8\01\00f\fd\00\00C\a9\01\00g\fd\00\00\a3\a9\01\00h\fd\00\00\03\aa\01\00i\fd\00\00c\aa\01\00j\fd\00\00\c3\aa\01\00k\fd\00\00#\ab\01\00l\fd\00\00\83\ab\01\00m\fd\00\00\e3\ab\01\00n\fd\00\00C\ac\01\00o\fd\00\00\a3\ac\01\00p\fd\00\00\03\ad\01\00q\fd\00\00c\ad\01\00r\fd\00\00\c3\ad\01\00s\fd\00\00#\ae\01\00t\fd\00\00\83\ae\01\00u\fd\00\00\e3\ae\01\00v\fd\00\00C\af\01\00w\fd\00\00\a3\af\01\00x\fd\00\00\03\b0\01\00y\fd\00\00c\b0\01\00z\fd\00\00\c3\b0\01\00{\fd\00\00#\b1\01\00|\fd\00\00\83\b1\01\00}\fd\00\00\e3\b1\01\00~\fd\00\00C\b2\01\00\7f\fd\00\00\a3\b2\01\00\80\fd\00\00\03\b3\01\00\81\fd\00\00c\b3\01\00\82\fd\00\00\c3\b3\01\00\83\fd\00\00#\b4\01\00\84\fd\00\00\83\b4\01\00\85\fd\00\00\e3\b4\01\00\86\fd\00\00C\b5\01\00\87\fd\00\00\a3\b5\01\00\88\fd\00\00\03\b6\01\00\89\fd\00\00c\b6\01\00\8a\fd\00\00\c3\b6\01\00\8b\fd\00\00#\b7\01\00\8c\fd\00\00\83\b7\01\00\8d\fd\00\00\e3\b7\01\00\8e\fd\00\00C\b8\01\00\8f\fd\00\00\a3\b8\01\00\92\fd\00\00\03\b9\01\00\93\fd\00\00c\b9\01\00\94\fd\00\00\c3\b9\01\00\95\fd\00\00#\ba\01\00\96\fd\00\00\83\ba\01\00\97\fd\00\00\e3\ba\01\00\98\fd\00\00C\bb\01\00\99\fd\00\00\a3\bb\01\00\9a\fd\00\00\03\bc\01\00\9b\fd\00\00c\bc\01\00\9c\fd\00\00\c3\bc\01\00\9d\fd\00\00#\bd\01\00\9e\fd\00\00\83\bd\01\00\9f\fd\00\00\e3\bd\01\00\a0\fd\00\00C\be\01\00\a1\fd\00\00\a3\be\01\00\a2\fd\00\00\03\bf\01\00\a3\fd\00\00c\bf\01\00\a4\fd\00\00\c3\bf\01\00\a5\fd\00\00#\c0\01\00\a6\fd\00\00\83\c0\01\00\a7\fd\00\00\e3\c0\01\00\a8\fd\00\00C\c1\01\00\a9\fd\00\00\a3\c1\01\00\aa\fd\00\00\03\c2\01\00\ab\fd\00\00c\c2\01\00\ac\fd\00\00\c3\c2\01\00\ad\fd\00\00#\c3\01\00\ae\fd\00\00\83\c3\01\00\af\fd\00\00\e3\c3\01\00\b0\fd\00\00C\c4\01\00\b1\fd\00\00\a3\c4\01\00\b2\fd\00\00\03\c5\01\00\b3\fd\00\00c\c5\01\00\b4\fd\00\00\c3\c5\01\00\b5\fd\00\00#\c6\01\00\b6\fd\00\00\83\c6\01\00\b7\fd\00\00\e3\c6\01\00\b8\fd\00\00C\c7\01\00\b9\fd\00\00\a3\c7\01\00\ba\fd\00\00\03\c8\01\00\bb\fd\00\00c\c8\01\00\bc\fd\00\00\c3\c8\01\00\bd\fd\00\00#\c9\01\00\be\fd\00\00\83\c9\01\00\bf\fd\00\00\e3\c9\01\00\c0\fd\00\00C\ca\01\00\c1\fd\00\00\a3\ca\01\00\c2\fd\00\00\03\cb\01\00\c3\fd\00\00c\cb\01\00\c4\fd\00\00\c3\cb\01\00\c5\fd\00\00#\cc\01\00\c6\fd\00\00\83\cc\01\00\c7\fd\00\00\e3\cc\01\00\f0\fd\00\00C\cd\01\00\f1\fd\00\00\a3\cd\01\00\f2\fd\00\00\04\ce\01\00\f3\fd\00\00\84\ce\01\00\f4\fd\00\00\04\cf\01\00\f5\fd\00\00\84\cf\01\00\f6\fd\00\00\04\d0\01\00\f7\fd\00\00\84\d0\01\00\f8\fd\00\00\04\d1\01\00\f9\fd\00\00\83\d1\01\00\fa\fd\00\00\f2\d1\01\00\fb\fd\00\00(\d4\01\00\fc\fd\00\00$\d5\01\00\10\fe\00\00\a1\d5\01\00\11\fe\00\00\c1\d5\01\00\12\fe\00\00\e1\d5\01\00\13\fe\00\00\01\d6\01\00\14\fe\00\00!\d6\01\00\15\fe\00\00A\d6\01\00\16\fe\00\00a\d6\01\00\17\fe\00\00\81\d6\01\00\18\fe\00\00\a1\d6\01\00\19\fe\00\00\c3\d6\01\000\fe\00\00\"\d7\01\001\fe\00\00a\d7\01\002\fe\00\00\81\d7\01\003\fe\00\00\a1\d7\01\004\fe\00\00\c1\d7\01\005\fe\00\00\e1\d7\01\006\fe\00\00\01\d8\01\007\fe\00\00!\d8\01\008\fe\00\00A\d8\01\009\fe\00\00a\d8\01\00:\fe\00\00\81\d8\01\00;\fe\00\00\a1\d8\01\00<\fe\00\00\c1\d8\01\00=\fe\00\00\e1\d8\01\00>\fe\00\00\01\d9\01\00?\fe\00\00!\d9\01\00@\fe\00\00A\d9\01\00A\fe\00\00a\d9\01\00B\fe\00\00\81\d9\01\00C\fe\00\00\a1\d9\01\00D\fe\00\00\c1\d9\01\00G\fe\00\00\e1\d9\01\00H\fe\00\00\01\da\01\00I\fe\00\00\"\da\01\00J\fe\00\00b\da\01\00K\fe\00\00\a2\da\01\00L\fe\00\00\e2\da\01\00M\fe\00\00!\db\01\00N\fe\00\00A\db\01\00O\fe\00\00a\db\01\00P\fe\00\00\81\db\01\00Q\fe\00\00\a1\db\01\00R\fe\00\00\c1\db\01\00T\fe\00\00\e1\db\01\00U\fe\00\00\01\dc\01\00V\fe\00\00!\dc\01\00W\fe\00\00A\dc\01\00X\fe\00\00a\dc\01\00Y\fe\00\00\81\dc\01\00Z\fe\00\00\a1\dc\01\00[\fe\00\00\c1\dc\01\00\\\fe\00\00\e1\dc\01\00]\fe\00\00\01\dd\01\00^\fe\00\00!\dd\01\00_\fe\00\00A\dd\01\00`\fe\00\00a\dd\01\00a\fe\00\00\81\dd\01\00b\fe\00\00\a1\dd\01\00c\fe\00\00\c1\dd\01\00d\fe\00\00\e1\dd\01\00e\fe\00\00\01\de\01\00f\fe\00\00!\de\01\00h\fe\00\00A\de\01\00i\fe\00\00a\de\01\00j\fe\00\00\81\de\01\00k\fe\00\00\a1\de\01\00p\fe\00\00\c2\de\01\00q\fe\00\00\02\df\01\00r\fe\00\00B\df\01\00t\fe\00\00\82\df\01\00v\fe\00\00\c2\df\01\00w\fe\00\00\02\e0\01\00x\fe\00\00B\e0\01\00y\fe\00\00\82\e0\01\00z\fe\00\00\c2\e0\01\00{\fe\00\00\02\e1\01\00|\fe\00\00B\e1\01\00}\fe\00\00\82\e1\01\00~\fe\00\00\c2\e1\01\00\7f\fe\00\00\02\e2\01\00\80\fe\00\00A\e2\01\00\81\fe\00\00b\e2\01\00\82\fe\00\00\a2\e2\01\00\83\fe\00\00\e2\e2\01\00\84\fe\00\00\"\e3\01\00\85\fe\00\00b\e3\01\00\86\fe\00\00\a2\e3\01\00\87\fe\00\00\e2\e3\01\00\88\fe\00\00\"\e4\01\00\89\fe\00\00b\e4\01\00\8a\fe\00\00\a2\e4\01\00\8b\fe\00\00\e2\e4\01\00\8c\fe\00\00\"\e5\01\00\8d\fe\00\00a\e5\01\00\8e\fe\00\00\81\e5\01\00\8f\fe\00\00\a1\e5\01\00\90\fe\00\00\c1\e5\01\00\91\fe\00\00\e1\e5\01\00\92\fe\00\00\01\e6\01\00\93\fe\00\00!\e6\01\00\94\fe\00\00A\e6\01\00\95\fe\00\00a\e6\01\00\96\fe\00\00\81\e6\01\00\97\fe\00\00\a1\e6\01\00\98\fe\00\00\c1\e6\01\00\99\fe\00\00\e1\e6\01\00\9a\fe\00\00\01\e7\01\00\9b\fe\00\00!\e7\01\00\9c\fe\00\00A\e7\01\00\9d\fe\00\00a\e7\01\00\9e\fe\00\00\81\e7\01\00\9f\fe\00\00\a1\e7\01\00\a0\fe\00\00\c1\e7\01\00\a1\fe\00\00\e1\e7\01\00\a2\fe\00\00\01\e8\01\00\a3\fe\00\00!\e8\01\00\a4\fe\00\00A\e8\01\00\a5\fe\00\00a\e8\01\00\a6\fe\00\00\81\e8\01\00\a7\fe\00\00\a1\e8\01\00\a8\fe\00\00\c1\e8\01\00\a9\fe\00\00\e1\e8\01\00\aa\fe\00\00\01\e9\01\00\ab\fe\00\00!\e9\01\00\ac\fe\00\00A\e9\01\00\ad\fe\00\00a\e9\01\00\ae\fe\00\00\81\e9\01\00\af\fe\00\00\a1\e9\01\00\b0\fe\00\00\c1\e9\01\00\b1\fe\00\00\e1\e9\01\00\b2\fe\00\00\01\ea\01\00\b3\fe\00\00!\ea\01\00\b4\fe\00\00A\ea\01\00\b5\fe\00\00a\ea\01\00\b6\fe\00\00\81\ea\01\00\b7\fe\00\00\a1\ea\01\00\b8\fe\00\00\c1\ea\01\00\b9\fe\00\00\e1\ea\01\00\ba\fe\00\00\01\eb\01\00\bb\fe\00\00!\eb\01\00\bc\fe\00\00A\eb\01\00\bd\fe\00\00a\eb\01\00\be\fe\00\00\81\eb\01\00\bf\fe\00\00\a1\eb\01\00\c0\fe\00\00\c1\eb\01\00\c1\fe\00\00\e1\eb\01\00\c2\fe\00\00\01\ec\01\00\c3\fe\00\00!\ec\01\00\c4\fe\00\00A\ec\01\00\c5\fe\00\00a\ec\01\00\c6\fe\00\00\81\ec\01\00\c7\fe\00\00\a1\ec\01\00\c8\fe\00\00\c1\ec\01\00\c9\fe\00\00\e1\ec\01\00\ca\fe\00\00\01\ed\01\00\cb\fe\00\00!\ed\01\00\cc\fe\00\00A\ed\01\00\cd\fe\00\00a\ed\01\00\ce\fe\00\00\81\ed\01\00\cf\fe\00\00\a1\ed\01\00\d0\fe\00\00\c1\ed\01\00\d1\fe\00\00\e1\ed\01\00\d2\fe\00\00\01\ee\01\00\d3\fe\00\00!\ee\01\00\d4\fe\00\00A\ee\01\00\d5\fe\00\00a\ee\01\00\d6\fe\00\00\81\ee\01\00\d7\fe\00\00\a1\ee\01\00\d8\fe\00\00\c1\ee\01\00\d9\fe\00\00\e1\ee\01\00\da\fe\00\00\01\ef\01\00\db\fe\00\00!\ef\01\00\dc\fe\00\00A\ef\01\00\dd\fe\00\00a\ef\01\00\de\fe\00\00\81\ef\01\00\df\fe\00\00\a1\ef\01\00\e0\fe\00\00\c1\ef\01\00\e1\fe\00\00\e1\ef\01\00\e2\fe\00\00\01\f0\01\00\e3\fe\00\00!\f0\01\00\e4\fe\00\00A\f0\01\00\e5\fe\00\00a\f0\01\00\e6\fe\00\00\81\f0\01\00\e7\fe\00\00\a1\f0\01\00\e8\fe\00\00\c1\f0\01\00\e9\fe\00\00\e1\f0\01\00\ea\fe\00\00\01\f1\01\00\eb\fe\00\00!\f1\01\00\ec\fe\00\00A\f1\01\00\ed\fe\00\00a\f1\01\00\ee\fe\00\00\81\f1\01\00\ef\fe\00\00\a1\f1\01\00\f0\fe\00\00\c1\f1\01\00\f1\fe\00\00\e1\f1\01\00\f2\fe\00\00\01\f2\01\00\f3\fe\00\00!\f2\01\00\f4\fe\00\00A\f2\01\00\f5\fe\00\00c\f2\01\00\f6\fe\00\00\c3\f2\01\00\f7\fe\00\00#\f3\01\00\f8\fe\00\00\83\f3\01\00\f9\fe\00\00\e3\f3\01\00\fa\fe\00\00C\f4\01\00\fb\fe\00\00\a2\f4\01\00\fc\fe\00\00\e2\f4\01\00\01\ff\00\00!\f5\01\00\02\ff\00\00A\f5\01\00\03\ff\00\00a\f5\01\00\04\ff\00\00\81\f5\01\00\05\ff\00\00\a1\f5\01\00\06\ff\00\00\c1\f5\01\00\07\ff\00\00\e1\f5\01\00\08\ff\00\00\01\f6\01\00\t\ff\00\00!\f6\01\00\n\ff\00\00A\f6\01\00\0b\ff\00\00a\f6\01\00\0c\ff\00\00\81\f6\01\00\0d\ff\00\00\a1\f6\01\00\0e\ff\00\00\c1\f6\01\00\0f\ff\00\00\e1\f6\01\00\10\ff\00\00\01\f7\01\00\11\ff\00\00!\f7\01\00\12\ff\00\00A\f7\01\00\13\ff\00\00a\f7\01\00\14\ff\00\00\81\f7\01\00\15\ff\00\00\a1\f7\01\00\16\ff\00\00\c1\f7\01\00\17\ff\00\00\e1\f7\01\00\18\ff\00\00\01\f8\01\00\19\ff\00\00!\f8\01\00\1a\ff\00\00A\f8\01\00\1b\ff\00\00a\f8\01\00\1c\ff\00\00\81\f8\01\00\1d\ff\00\00\a1\f8\01\00\1e\ff\00\00\c1\f8\01\00\1f\ff\00\00\e1\f8\01\00 \ff\00\00\01\f9\01\00!\ff\00\00!\f9\01\00\"\ff\00\00A\f9\01\00#\ff\00\00a\f9\01\00$\ff\00\00\81\f9\01\00%\ff\00\00\a1\f9\01\00&\ff\00\00\c1\f9\01\00\'\ff\00\00\e1\f9\01\00(\ff\00\00\01\fa\01\00)\ff\00\00!\fa\01\00*\ff\00\00A\fa\01\00+\ff\00\00a\fa\01\00,\ff\00\00\81\fa\01\00-\ff\00\00\a1\fa\01\00.\ff\00\00\c1\fa\01\00/\ff\00\00\e1\fa\01\000\ff\00\00\01\fb\01\001\ff\00\00!\fb\01\002\ff\00\00A\fb\01\003\ff\00\00a\fb\01\004\ff\00\00\81\fb\01\005\ff\00\00\a1\fb\01\006\ff\00\00\c1\fb\01\007\ff\00\00\e1\fb\01\008\ff\00\00\01\fc\01\009\ff\00\00!\fc\01\00:\ff\00\00A\fc\01\00;\ff\00\00a\fc\01\00<\ff\00\00\81\fc\01\00=\ff\00\00\a1\fc\01\00>\ff\00\00\c1\fc\01\00?\ff\00\00\e1\fc\01\00@\ff\00\00\01\fd\01\00A\ff\00\00!\fd\01\00B\ff\00\00A\fd\01\00C\ff\00\00a\fd\01\00D\ff\00\00\81\fd\01\00E\ff\00\00\a1\fd\01\00F\ff\00\00\c1\fd\01\00G\ff\00\00\e1\fd\01\00H\ff\00\00\01\fe\01\00I\ff\00\00!\fe\01\00J\ff\00\00A\fe\01\00K\ff\00\00a\fe\01\00L\ff\00\00\81\fe\01\00M\ff\00\00\a1\fe\01\00N\ff\00\00\c1\fe\01\00O\ff\00\00\e1\fe\01\00P\ff\00\00\01\ff\01\00Q\ff\00\00!\ff\01\00R\ff\00\00A\ff\01\00S\ff\00\00a\ff\01\00T\ff\00\00\81\ff\01\00U\ff\00\00\a1\ff\01\00V\ff\00\00\c1\ff\01\00W\ff\00\00\e1\ff\01\00X\ff\00\00\01\00\02\00Y\ff\00\00!\00\02\00Z\ff\00\00A\00\02\00[\ff\00\00a\00\02\00\\\ff\00\00\81\00\02\00]\ff\00\00\a1\00\02\00^\ff\00\00\c1\00\02\00_\ff\00\00\e1\00\02\00`\ff\00\00\01\01\02\00a\ff\00\00!\01\02\00b\ff\00\00A\01\02\00c\ff\00\00a\01\02\00d\ff\00\00\81\01\02\00e\ff\00\00\a1\01\02\00f\ff\00\00\c1\01\02\00g\ff\00\00\e1\01\02\00h\ff\00\00\01\02\02\00i\ff\00\00!\02\02\00j\ff\00\00A\02\02\00k\ff\00\00a\02\02\00l\ff\00\00\81\02\02\00m\ff\00\00\a1\02\02\00n\ff\00\00\c1\02\02\00o\ff\00\00\e1\02\02\00p\ff\00\00\01\03\02\00q\ff\00\00!\03\02\00r\ff\00\00A\03\02\00s\ff\00\00a\03\02\00t\ff\00\00\81\03\02\00u\ff\00\00\a1\03\02\00v\ff\00\00\c1\03\02\00w\ff\00\00\e1\03\02\00x\ff\00\00\01\04\02\00y\ff\00\00!\04\02\00z\ff\00\00A\04\02\00{\ff\00\00a\04\02\00|\ff\00\00\81\04\02\00}\ff\00\00\a1\04\02\00~\ff\00\00\c1\04\02\00\7f\ff\00\00\e1\04\02\00\80\ff\00\00\01\05\02\00\81\ff\00\00!\05\02\00\82\ff\00\00A\05\02\00\83\ff\00\00a\05\02\00\84\ff\00\00\81\05\02\00\85\ff\00\00\a1\05\02\00\86\ff\00\00\c1\05\02\00\87\ff\00\00\e1\05\02\00\88\ff\00\00\01\06\02\00\89\ff\00\00!\06\02\00\8a\ff\00\00A\06\02\00\8b\ff\00\00a\06\02\00\8c\ff\00\00\81\06\02\00\8d\ff\00\00\a1\06\02\00\8e\ff\00\00\c1\06\02\00\8f\ff\00\00\e1\06\02\00\90\ff\00\00\01\07\02\00\91\ff\00\00!\07\02\00\92\ff\00\00A\07\02\00\93\ff\00\00a\07\02\00\94\ff\00\00\81\07\02\00\95\ff\00\00\a1\07\02\00\96\ff\00\00\c1\07\02\00\97\ff\00\00\e1\07\02\00\98\ff\00\00\01\08\02\00\99\ff\00\00!\08\02\00\9a\ff\00\00A\08\02\00\9b\ff\00\00a\08\02\00\9c\ff\00\00\81\08\02\00\9d\ff\00\00\a1\08\02\00\9e\ff\00\00\c1\08\02\00\9f\ff\00\00\e1\08\02\00\a0\ff\00\00\01\t\02\00\a1\ff\00\00!\t\02\00\a2\ff\00\00A\t\02\00\a3\ff\00\00a\t\02\00\a4\ff\00\00\81\t\02\00\a5\ff\00\00\a1\t\02\00\a6\ff\00\00\c1\t\02\00\a7\ff\00\00\e1\t\02\00\a8\ff\00\00\01\n\02\00\a9\ff\00\00!\n\02\00\aa\ff\00\00A\n\02\00\ab\ff\00\00a\n\02\00\ac\ff\00\00\81\n\02\00\ad\ff\00\00\a1\n\02\00\ae\ff\00\00\c1\n\02\00\af\ff\00\00\e1\n\02\00\b0\ff\00\00\01\0b\02\00\b1\ff\00\00!\0b\02\00\b2\ff\00\00A\0b\02\00\b3\ff\00\00a\0b\02\00\b4\ff\00\00\81\0b\02\00\b5\ff\00\00\a1\0b\02\00\b6\ff\00\00\c1\0b\02\00\b7\ff\00\00\e1\0b\02\00\b8\ff\00\00\01\0c\02\00\b9\ff\00\00!\0c\02\00\ba\ff\00\00A\0c\02\00\bb\ff\00\00a\0c\02\00\bc\ff\00\00\81\0c\02\00\bd\ff\00\00\a1\0c\02\00\be\ff\00\00\c1\0c\02\00\c2\ff\00\00\e1\0c\02\00\c3\ff\00\00\01\0d\02\00\c4\ff\00\00!\0d\02\00\c5\ff\00\00A\0d\02\00\c6\ff\00\00a\0d\02\00\c7\ff\00\00\81\0d\02\00\ca\ff\00\00\a1\0d\02\00\cb\ff\00\00\c1\0d\02\00\cc\ff\00\00\e1\0d\02\00\cd\ff\00\00\01\0e\02\00\ce\ff\00\00!\0e\02\00\cf\ff\00\00A\0e\02\00\d2\ff\00\00a\0e\02\00\d3\ff\00\00\81\0e\02\00\d4\ff\00\00\a1\0e\02\00\d5\ff\00\00\c1\0e\02\00\d6\ff\00\00\e1\0e\02\00\d7\ff\00\00\01\0f\02\00\da\ff\00\00!\0f\02\00\db\ff\00\00A\0f\02\00\dc\ff\00\00a\0f\02\00\e0\ff\00\00\81\0f\02\00\e1\ff\00\00\a1\0f\02\00\e2\ff\00\00\c1\0f\02\00\e3\ff\00\00\e2\0f\02\00\e4\ff\00\00!\10\02\00\e5\ff\00\00A\10\02\00\e6\ff\00\00a\10\02\00\e8\ff\00\00\81\10\02\00\e9\ff\00\00\a1\10\02\00\ea\ff\00\00\c1\10\02\00\eb\ff\00\00\e1\10\02\00\ec\ff\00\00\01\11\02\00\ed\ff\00\00!\11\02\00\ee\ff\00\00A\11\02\00\81\07\01\00a\11\02\00\82\07\01\00\81\11\02\00\83\07\01\00\a1\11\02\00\84\07\01\00\c1\11\02\00\85\07\01\00\e1\11\02\00\87\07\01\00\01\12\02\00\88\07\01\00!\12\02\00\89\07\01\00A\12\02\00\8a\07\01\00a\12\02\00\8b\07\01\00\81\12\02\00\8c\07\01\00\a1\12\02\00\8d\07\01\00\c1\12\02\00\8e\07\01\00\e1\12\02\00\8f\07\01\00\01\13\02\00\90\07\01\00!\13\02\00\91\07\01\00A\13\02\00\92\07\01\00a\13\02\00\93\07\01\00\81\13\02\00\94\07\01\00\a1\13\02\00\95\07\01\00\c1\13\02\00\96\07\01\00\e1\13\02\00\97\07\01\00\01\14\02\00\98\07\01\00!\14\02\00\99\07\01\00A\14\02\00\9a\07\01\00a\14\02\00\9b\07\01\00\81\14\02\00\9c\07\01\00\a2\14\02\00\9d\07\01\00\e1\14\02\00\9e\07\01\00\01\15\02\00\9f\07\01\00\"\15\02\00\a0\07\01\00a\15\02\00\a1\07\01\00\82\15\02\00\a2\07\01\00\c1\15\02\00\a3\07\01\00\e1\15\02\00\a4\07\01\00\01\16\02\00\a5\07\01\00!\16\02\00\a6\07\01\00A\16\02\00\a7\07\01\00b\16\02\00\a8\07\01\00\a1\16\02\00\a9\07\01\00\c1\16\02\00\aa\07\01\00\e1\16\02\00\ab\07\01\00\01\17\02\00\ac\07\01\00!\17\02\00\ad\07\01\00A\17\02\00\ae\07\01\00a\17\02\00\af\07\01\00\81\17\02\00\b0\07\01\00\a1\17\02\00\b2\07\01\00\c1\17\02\00\b3\07\01\00\e1\17\02\00\b4\07\01\00\01\18\02\00\b5\07\01\00!\18\02\00\b6\07\01\00A\18\02\00\b7\07\01\00a\18\02\00\b8\07\01\00\81\18\02\00\b9\07\01\00\a2\18\02\00\ba\07\01\00\e2\18\02\00\d6\cc\01\00!\19\02\00\d7\cc\01\00A\19\02\00\d8\cc\01\00a\19\02\00\d9\cc\01\00\81\19\02\00\da\cc\01\00\a1\19\02\00\db\cc\01\00\c1\19\02\00\dc\cc\01\00\e1\19\02\00\dd\cc\01\00\01\1a\02\00\de\cc\01\00!\1a\02\00\df\cc\01\00A\1a\02\00\e0\cc\01\00a\1a\02\00\e1\cc\01\00\81\1a\02\00\e2\cc\01\00\a1\1a\02\00\e3\cc\01\00\c1\1a\02\00\e4\cc\01\00\e1\1a\02\00\e5\cc\01\00\01\1b\02\00\e6\cc\01\00!\1b\02\00\e7\cc\01\00A\1b\02\00\e8\cc\01\00a\1b\02\00\e9\cc\01\00\81\1b\02\00\ea\cc\01\00\a1\1b\02\00\eb\cc\01\00\c1\1b\02\00\ec\cc\01\00\e1\1b\02\00\ed\cc\01\00\01\1c\02\00\ee\cc\01\00!\1c\02\00\ef\cc\01\00A\1c\02\00\f0\cc\01\00a\1c\02\00\f1\cc\01\00\81\1c\02\00\f2\cc\01\00\a1\1c\02\00\f3\cc\01\00\c1\1c\02\00\f4\cc\01\00\e1\1c\02\00\f5\cc\01\00\01\1d\02\00\f6\cc\01\00!\1d\02\00\f7\cc\01\00A\1d\02\00\f8\cc\01\00a\1d\02\00\f9\cc\01\00\81\1d\02\00\00\d4\01\00\a1\1d\02\00\01\d4\01\00\c1\1d\02\00\02\d4\01\00\e1\1d\02\00\03\d4\01\00\01\1e\02\00\04\d4\01\00!\1e\02\00\05\d4\01\00A\1e\02\00\06\d4\01\00a\1e\02\00\07\d4\01\00\81\1e\02\00\08\d4\01\00\a1\1e\02\00\t\d4\01\00\c1\1e\02\00\n\d4\01\00\e1\1e\02\00\0b\d4\01\00\01\1f\02\00\0c\d4\01\00!\1f\02\00\0d\d4\01\00A\1f\02\00\0e\d4\01\00a\1f\02\00\0f\d4\01\00\81\1f\02\00\10\d4\01\00\a1\1f\02\00\11\d4\01\00\c1\1f\02\00\12\d4\01\00\e1\1f\02\00\13\d4\01\00\01 \02\00\14\d4\01\00! \02\00\15\d4\01\00A \02\00\16\d4\01\00a \02\00\17\d4\01\00\81 \02\00\18\d4\01\00\a1 \02\00\19\d4\01\00\c1 \02\00\1a\d4\01\00\e1 \02\00\1b\d4\01\00\01!\02\00\1c\d4\01\00!!\02\00\1d\d4\01\00A!\02\00\1e\d4\01\00a!\02\00\1f\d4\01\00\81!\02\00 \d4\01\00\a1!\02\00!\d4\01\00\c1!\02\00\"\d4\01\00\e1!\02\00#\d4\01\00\01\"\02\00$\d4\01\00!\"\02\00%\d4\01\00A\"\02\00&\d4\01\00a\"\02\00\'\d4\01\00\81\"\02\00(\d4\01\00\a1\"\02\00)\d4\01\00\c1\"\02\00*\d4\01\00\e1\"\02\00+\d4\01\00\01#\02\00,\d4\01\00!#\02\00-\d4\01\00A#\02\00.\d4\01\00a#\02\00/\d4\01\00\81#\02\000\d4\01\00\a1#\02\001\d4\01\00\c1#\02\002\d4\01\00\e1#\02\003\d4\01\00\01$\02\004\d4\01\00!$\02\005\d4\01\00A$\02\006\d4\01\00a$\02\007\d4\01\00\81$\02\008\d4\01\00\a1$\02\009\d4\01\00\c1$\02\00:\d4\01\00\e1$\02\00;\d4\01\00\01%\02\00<\d4\01\00!%\02\00=\d4\01\00A%\02\00>\d4\01\00a%\02\00?\d4\01\00\81%\02\00@\d4\01\00\a1%\02\00A\d4\01\00\c1%\02\00B\d4\01\00\e1%\02\00C\d4\01\00\01&\02\00D\d4\01\00!&\02\00E\d4\01\00A&\02\00F\d4\01\00a&\02\00G\d4\01\00\81&\02\00H\d4\01\00\a1&\02\00I\d4\01\00\c1&\02\00J\d4\01\00\e1&\02\00K\d4\01\00\01\'\02\00L\d4\01\00!\'\02\00M\d4\01\00A\'\02\00N\d4\01\00a\'\02\00O\d4\01\00\81\'\02\00P\d4\01\00\a1\'\02\00Q\d4\01\00\c1\'\02\00R\d4\01\00\e1\'\02\00S\d4\01\00\01(\02\00T\d4\01\00!(\02\00V\d4\01\00A(\02\00W\d4\01\00a(\02\00X\d4\01\00\81(\02\00Y\d4\01\00\a1(\02\00Z\d4\01\00\c1(\02\00[\d4\01\00\e1(\02\00\\\d4\01\00\01)\02\00]\d4\01\00!)\02\00^\d4\01\00A)\02\00_\d4\01\00a)\02\00`\d4\01\00\81)\02\00a\d4\01\00\a1)\02\00b\d4\01\00\c1)\02\00c\d4\01\00\e1)\02\00d\d4\01\00\01*\02\00e\d4\01\00!*\02\00f\d4\01\00A*\02\00g\d4\01\00a*\02\00h\d4\01\00\81*\02\00i\d4\01\00\a1*\02\00j\d4\01\00\c1*\02\00k\d4\01\00\e1*\02\00l\d4\01\00\01+\02\00m\d4\01\00!+\02\00n\d4\01\00A+\02\00o\d4\01\00a+\02\00p\d4\01\00\81+\02\00q\d4\01\00\a1+\02\00r\d4\01\00\c1+\02\00s\d4\01\00\e1+\02\00t\d4\01\00\01,\02\00u\d4\01\00!,\02\00v\d4\01\00A,\02\00w\d4\01\00a,\02\00x\d4\01\00\81,\02\00y\d4\01\00\a1,\02\00z\d4\01\00\c1,\02\00{\d4\01\00\e1,\02\00|\d4\01\00\01-\02\00}\d4\01\00!-\02\00~\d4\01\00A-\02\00\7f\d4\01\00a-\02\00\80\d4\01\00\81-\02\00\81\d4\01\00\a1-\02\00\82\d4\01\00\c1-\02\00\83\d4\01\00\e1-\02\00\84\d4\01\00\01.\02\00\85\d4\01\00!.\02\00\86\d4\01\00A.\02\00\87\d4\01\00a.\02\00\88\d4\01\00\81.\02\00\89\d4\01\00\a1.\02\00\8a\d4\01\00\c1.\02\00\8b\d4\01\00\e1.\02\00\8c\d4\01\00\01/\02\00\8d\d4\01\00!/\02\00\8e\d4\01\00A/\02\00\8f\d4\01\00a/\02\00\90\d4\01\00\81/\02\00\91\d4\01\00\a1/\02\00\92\d4\01\00\c1/\02\00\93\d4\01\00\e1/\02\00\94\d4\01\00\010\02\00\95\d4\01\00!0\02\00\96\d4\01\00A0\02\00\97\d4\01\00a0\02\00\98\d4\01\00\810\02\00\99\d4\01\00\a10\02\00\9a\d4\01\00\c10\02\00\9b\d4\01\00\e10\02\00\9c\d4\01\00\011\02\00\9e\d4\01\00!1\02\00\9f\d4\01\00A1\02\00\a2\d4\01\00a1\02\00\a5\d4\01\00\811\02\00\a6\d4\01\00\a11\02\00\a9\d4\01\00\c11\02\00\aa\d4\01\00\e11\02\00\ab\d4\01\00\012\02\00\ac\d4\01\00!2\02\00\ae\d4\01\00A2\02\00\af\d4\01\00a2\02\00\b0\d4\01\00\812\02\00\b1\d4\01\00\a12\02\00\b2\d4\01\00\c12\02\00\b3\d4\01\00\e12\02\00\b4\d4\01\00\013\02\00\b5\d4\01\00!3\02\00\b6\d4\01\00A3\02\00\b7\d4\01\00a3\02\00\b8\d4\01\00\813\02\00\b9\d4\01\00\a13\02\00\bb\d4\01\00\c13\02\00\bd\d4\01\00\e13\02\00\be\d4\01\00\014\02\00\bf\d4\01\00!4\02\00\c0\d4\01\00A4\02\00\c1\d4\01\00a4\02\00\c2\d4\01\00\814\02\00\c3\d4\01\00\a14\02\00\c5\d4\01\00\c14\02\00\c6\d4\01\00\e14\02\00\c7\d4\01\00\015\02\00\c8\d4\01\00!5\02\00\c9\d4\01\00A5\02\00\ca\d4\01\00a5\02\00\cb\d4\01\00\815\02\00\cc\d4\01\00\a15\02\00\cd\d4\01\00\c15\02\00\ce\d4\01\00\e15\02\00\cf\d4\01\00\016\02\00\d0\d4\01\00!6\02\00\d1\d4\01\00A6\02\00\d2\d4\01\00a6\02\00\d3\d4\01\00\816\02\00\d4\d4\01\00\a16\02\00\d5\d4\01\00\c16\02\00\d6\d4\01\00\e16\02\00\d7\d4\01\00\017\02\00\d8\d4\01\00!7\02\00\d9\d4\01\00A7\02\00\da\d4\01\00a7\02\00\db\d4\01\00\817\02\00\dc\d4\01\00\a17\02\00\dd\d4\01\00\c17\02\00\de\d4\01\00\e17\02\00\df\d4\01\00\018\02\00\e0\d4\01\00!8\02\00\e1\d4\01\00A8\02\00\e2\d4\01\00a8\02\00\e3\d4\01\00\818\02\00\e4\d4\01\00\a18\02\00\e5\d4\01\00\c18\02\00\e6\d4\01\00\e18\02\00\e7\d4\01\00\019\02\00\e8\d4\01\00!9\02\00\e9\d4\01\00A9\02\00\ea\d4\01\00a9\02\00\eb\d4\01\00\819\02\00\ec\d4\01\00\a19\02\00\ed\d4\01\00\c19\02\00\ee\d4\01\00\e19\02\00\ef\d4\01\00\01:\02\00\f0\d4\01\00!:\02\00\f1\d4\01\00A:\02\00\f2\d4\01\00a:\02\00\f3\d4\01\00\81:\02\00\f4\d4\01\00\a1:\02\00\f5\d4\01\00\c1:\02\00\f6\d4\01\00\e1:\02\00\f7\d4\01\00\01;\02\00\f8\d4\01\00!;\02\00\f9\d4\01\00A;\02\00\fa\d4\01\00a;\02\00\fb\d4\01\00\81;\02\00\fc\d4\01\00\a1;\02\00\fd\d4\01\00\c1;\02\00\fe\d4\01\00\e1;\02\00\ff\d4\01\00\01<\02\00\00\d5\01\00!<\02\00\01\d5\01\00A<\02\00\02\d5\01\00a<\02\00\03\d5\01\00\81<\02\00\04\d5\01\00\a1<\02\00\05\d5\01\00\c1<\02\00\07\d5\01\00\e1<\02\00\08\d5\01\00\01=\02\00\t\d5\01\00!=\02\00\n\d5\01\00A=\02\00\0d\d5\01\00a=\02\00\0e\d5\01\00\81=\02\00\0f\d5\01\00\a1=\02\00\10\d5\01\00\c1=\02\00\11\d5\01\00\e1=\02\00\12\d5\01\00\01>\02\00\13\d5\01\00!>\02\00\14\d5\01\00A>\02\00\16\d5\01\00a>\02\00\17\d5\01\00\81>\02\00\18\d5\01\00\a1>\02\00\19\d5\01\00\c1>\02\00\1a\d5\01\00\e1>\02\00\1b\d5\01\00\01?\02\00\1c\d5\01\00!?\02\00\1e\d5\01\00A?\02\00\1f\d5\01\00a?\02\00 \d5\01\00\81?\02\00!\d5\01\00\a1?\02\00\"\d5\01\00\c1?\02\00#\d5\01\00\e1?\02\00$\d5\01\00\01@\02\00%\d5\01\00!@\02\00&\d5\01\00A@\02\00\'\d5\01\00a@\02\00(\d5\01\00\81@\02\00)\d5\01\00\a1@\02\00*\d5\01\00\c1@\02\00+\d5\01\00\e1@\02\00,\d5\01\00\01A\02\00-\d5\01\00!A\02\00.\d5\01\00AA\02\00/\d5\01\00aA\02\000\d5\01\00\81A\02\001\d5\01\00\a1A\02\002\d5\01\00\c1A\02\003\d5\01\00\e1A\02\004\d5\01\00\01B\02\005\d5\01\00!B\02\006\d5\01\00AB\02\007\d5\01\00aB\02\008\d5\01\00\81B\02\009\d5\01\00\a1B\02\00;\d5\01\00\c1B\02\00<\d5\01\00\e1B\02\00=\d5\01\00\01C\02\00>\d5\01\00!C\02\00@\d5\01\00AC\02\00A\d5\01\00aC\02\00B\d5\01\00\81C\02\00C\d5\01\00\a1C\02\00D\d5\01\00\c1C\02\00F\d5\01\00\e1C\02\00J\d5\01\00\01D\02\00K\d5\01\00!D\02\00L\d5\01\00AD\02\00M\d5\01\00aD\02\00N\d5\01\00\81D\02\00O\d5\01\00\a1D\02\00P\d5\01\00\c1D\02\00R\d5\01\00\e1D\02\00S\d5\01\00\01E\02\00T\d5\01\00!E\02\00U\d5\01\00AE\02\00V\d5\01\00aE\02\00W\d5\01\00\81E\02\00X\d5\01\00\a1E\02\00Y\d5\01\00\c1E\02\00Z\d5\01\00\e1E\02\00[\d5\01\00\01F\02\00\\\d5\01\00!F\02\00]\d5\01\00AF\02\00^\d5\01\00aF\02\00_\d5\01\00\81F\02\00`\d5\01\00\a1F\02\00a\d5\01\00\c1F\02\00b\d5\01\00\e1F\02\00c\d5\01\00\01G\02\00d\d5\01\00!G\02\00e\d5\01\00AG\02\00f\d5\01\00aG\02\00g\d5\01\00\81G\02\00h\d5\01\00\a1G\02\00i\d5\01\00\c1G\02\00j\d5\01\00\e1G\02\00k\d5\01\00\01H\02\00l\d5\01\00!H\02\00m\d5\01\00AH\02\00n\d5\01\00aH\02\00o\d5\01\00\81H\02\00p\d5\01\00\a1H\02\00q\d5\01\00\c1H\02\00r\d5\01\00\e1H\02\00s\d5\01\00\01I\02\00t\d5\01\00!I\02\00u\d5\01\00AI\02\00v\d5\01\00aI\02\00w\d5\01\00\81I\02\00x\d5\01\00\a1I\02\00y\d5\01\00\c1I\02\00z\d5\01\00\e1I\02\00{\d5\01\00\01J\02\00|\d5\01\00!J\02\00}\d5\01\00AJ\02\00~\d5\01\00aJ\02\00\7f\d5\01\00\81J\02\00\80\d5\01\00\a1J\02\00\81\d5\01\00\c1J\02\00\82\d5\01\00\e1J\02\00\83\d5\01\00\01K\02\00\84\d5\01\00!K\02\00\85\d5\01\00AK\02\00\86\d5\01\00aK\02\00\87\d5\01\00\81K\02\00\88\d5\01\00\a1K\02\00\89\d5\01\00\c1K\02\00\8a\d5\01\00\e1K\02\00\8b\d5\01\00\01L\02\00\8c\d5\01\00!L\02\00\8d\d5\01\00AL\02\00\8e\d5\01\00aL\02\00\8f\d5\01\00\81L\02\00\90\d5\01\00\a1L\02\00\91\d5\01\00\c1L\02\00\92\d5\01\00\e1L\02\00\93\d5\01\00\01M\02\00\94\d5\01\00!M\02\00\95\d5\01\00AM\02\00\96\d5\01\00aM\02\00\97\d5\01\00\81M\02\00\98\d5\01\00\a1M\02\00\99\d5\01\00\c1M\02\00\9a\d5\01\00\e1M\02\00\9b\d5\01\00\01N\02\00\9c\d5\01\00!N\02\00\9d\d5\01\00AN\02\00\9e\d5\01\00aN\02\00\9f\d5\01\00\81N\02\00\a0\d5\01\00\a1N\02\00\a1\d5\01\00\c1N\02\00\a2\d5\01\00\e1N\02\00\a3\d5\01\00\01O\02\00\a4\d5\01\00!O\02\00\a5\d5\01\00AO\02\00\a6\d5\01\00aO\02\00\a7\d5\01\00\81O\02\00\a8\d5\01\00\a1O\02\00\a9\d5\01\00\c1O\02\00\aa\d5\01\00\e1O\02\00\ab\d5\01\00\01P\02\00\ac\d5\01\00!P\02\00\ad\d5\01\00AP\02\00\ae\d5\01\00aP\02\00\af\d5\01\00\81P\02\00\b0\d5\01\00\a1P\02\00\b1\d5\01\00\c1P\02\00\b2\d5\01\00\e1P\02\00\b3\d5\01\00\01Q\02\00\b4\d5\01\00!Q\02\00\b5\d5\01\00AQ\02\00\b6\d5\01\00aQ\02\00\b7\d5\01\00\81Q\02\00\b8\d5\01\00\a1Q\02\00\b9\d5\01\00\c1Q\02\00\ba\d5\01\00\e1Q\02\00\bb\d5\01\00\01R\02\00\bc\d5\01\00!R\02\00\bd\d5\01\00AR\02\00\be\d5\01\00aR\02\00\bf\d5\01\00\81R\02\00\c0\d5\01\00\a1R\02\00\c1\d5\01\00\c1R\02\00\c2\d5\01\00\e1R\02\00\c3\d5\01\00\01S\02\00\c4\d5\01\00!S\02\00\c5\d5\01\00AS\02\00\c6\d5\01\00aS\02\00\c7\d5\01\00\81S\02\00\c8\d5\01\00\a1S\02\00\c9\d5\01\00\c1S\02\00\ca\d5\01\00\e1S\02\00\cb\d5\01\00\01T\02\00\cc\d5\01\00!T\02\00\cd\d5\01\00AT\02\00\ce\d5\01\00aT\02\00\cf\d5\01\00\81T\02\00\d0\d5\01\00\a1T\02\00\d1\d5\01\00\c1T\02\00\d2\d5\01\00\e1T\02\00\d3\d5\01\00\01U\02\00\d4\d5\01\00!U\02\00\d5\d5\01\00AU\02\00\d6\d5\01\00aU\02\00\d7\d5\01\00\81U\02\00\d8\d5\01\00\a1U\02\00\d9\d5\01\00\c1U\02\00\da\d5\01\00\e1U\02\00\db\d5\01\00\01V\02\00\dc\d5\01\00!V\02\00\dd\d5\01\00AV\02\00\de\d5\01\00aV\02\00\df\d5\01\00\81V\02\00\e0\d5\01\00\a1V\02\00\e1\d5\01\00\c1V\02\00\e2\d5\01\00\e1V\02\00\e3\d5\01\00\01W\02\00\e4\d5\01\00!W\02\00\e5\d5\01\00AW\02\00\e6\d5\01\00aW\02\00\e7\d5\01\00\81W\02\00\e8\d5\01\00\a1W\02\00\e9\d5\01\00\c1W\02\00\ea\d5\01\00\e1W\02\00\eb\d5\01\00\01X\02\00\ec\d5\01\00!X\02\00\ed\d5\01\00AX\02\00\ee\d5\01\00aX\02\00\ef\d5\01\00\81X\02\00\f0\d5\01\00\a1X\02\00\f1\d5\01\00\c1X\02\00\f2\d5\01\00\e1X\02\00\f3\d5\01\00\01Y\02\00\f4\d5\01\00!Y\02\00\f5\d5\01\00AY\02\00\f6\d5\01\00aY\02\00\f7\d5\01\00\81Y\02\00\f8\d5\01\00\a1Y\02\00\f9\d5\01\00\c1Y\02\00\fa\d5\01\00\e1Y\02\00\fb\d5\01\00\01Z\02\00\fc\d5\01\00!Z\02\00\fd\d5\01\00AZ\02\00\fe\d5\01\00aZ\02\00\ff\d5\01\00\81Z\02\00\00\d6\01\00\a1Z\02\00\01\d6\01\00\c1Z\02\00\02\d6\01\00\e1Z\02\00\03\d6\01\00\01[\02\00\04\d6\01\00![\02\00\05\d6\01\00A[\02\00\06\d6\01\00a[\02\00\07\d6\01\00\81[\02\00\08\d6\01\00\a1[\02\00\t\d6\01\00\c1[\02\00\n\d6\01\00\e1[\02\00\0b\d6\01\00\01\\\02\00\0c\d6\01\00!\\\02\00\0d\d6\01\00A\\\02\00\0e\d6\01\00a\\\02\00\0f\d6\01\00\81\\\02\00\10\d6\01\00\a1\\\02\00\11\d6\01\00\c1\\\02\00\12\d6\01\00\e1\\\02\00\13\d6\01\00\01]\02\00\14\d6\01\00!]\02\00\15\d6\01\00A]\02\00\16\d6\01\00a]\02\00\17\d6\01\00\81]\02\00\18\d6\01\00\a1]\02\00\19\d6\01\00\c1]\02\00\1a\d6\01\00\e1]\02\00\1b\d6\01\00\01^\02\00\1c\d6\01\00!^\02\00\1d\d6\01\00A^\02\00\1e\d6\01\00a^\02\00\1f\d6\01\00\81^\02\00 \d6\01\00\a1^\02\00!\d6\01\00\c1^\02\00\"\d6\01\00\e1^\02\00#\d6\01\00\01_\02\00$\d6\01\00!_\02\00%\d6\01\00A_\02\00&\d6\01\00a_\02\00\'\d6\01\00\81_\02\00(\d6\01\00\a1_\02\00)\d6\01\00\c1_\02\00*\d6\01\00\e1_\02\00+\d6\01\00\01`\02\00,\d6\01\00!`\02\00-\d6\01\00A`\02\00.\d6\01\00a`\02\00/\d6\01\00\81`\02\000\d6\01\00\a1`\02\001\d6\01\00\c1`\02\002\d6\01\00\e1`\02\003\d6\01\00\01a\02\004\d6\01\00!a\02\005\d6\01\00Aa\02\006\d6\01\00aa\02\007\d6\01\00\81a\02\008\d6\01\00\a1a\02\009\d6\01\00\c1a\02\00:\d6\01\00\e1a\02\00;\d6\01\00\01b\02\00<\d6\01\00!b\02\00=\d6\01\00Ab\02\00>\d6\01\00ab\02\00?\d6\01\00\81b\02\00@\d6\01\00\a1b\02\00A\d6\01\00\c1b\02\00B\d6\01\00\e1b\02\00C\d6\01\00\01c\02\00D\d6\01\00!c\02\00E\d6\01\00Ac\02\00F\d6\01\00ac\02\00G\d6\01\00\81c\02\00H\d6\01\00\a1c\02\00I\d6\01\00\c1c\02\00J\d6\01\00\e1c\02\00K\d6\01\00\01d\02\00L\d6\01\00!d\02\00M\d6\01\00Ad\02\00N\d6\01\00ad\02\00O\d6\01\00\81d\02\00P\d6\01\00\a1d\02\00Q\d6\01\00\c1d\02\00R\d6\01\00\e1d\02\00S\d6\01\00\01e\02\00T\d6\01\00!e\02\00U\d6\01\00Ae\02\00V\d6\01\00ae\02\00W\d6\01\00\81e\02\00X\d6\01\00\a1e\02\00Y\d6\01\00\c1e\02\00Z\d6\01\00\e1e\02\00[\d6\01\00\01f\02\00\\\d6\01\00!f\02\00]\d6\01\00Af\02\00^\d6\01\00af\02\00_\d6\01\00\81f\02\00`\d6\01\00\a1f\02\00a\d6\01\00\c1f\02\00b\d6\01\00\e1f\02\00c\d6\01\00\01g\02\00d\d6\01\00!g\02\00e\d6\01\00Ag\02\00f\d6\01\00ag\02\00g\d6\01\00\81g\02\00h\d6\01\00\a1g\02\00i\d6\01\00\c1g\02\00j\d6\01\00\e1g\02\00k\d6\01\00\01h\02\00l\d6\01\00!h\02\00m\d6\01\00Ah\02\00n\d6\01\00ah\02\00o\d6\01\00\81h\02\00p\d6\01\00\a1h\02\00q\d6\01\00\c1h\02\00r\d6\01\00\e1h\02\00s\d6\01\00\01i\02\00t\d6\01\00!i\02\00u\d6\01\00Ai\02\00v\d6\01\00ai\02\00w\d6\01\00\81i\02\00x\d6\01\00\a1i\02\00y\d6\01\00\c1i\02\00z\d6\01\00\e1i\02\00{\d6\01\00\01j\02\00|\d6\01\00!j\02\00}\d6\01\00Aj\02\00~\d6\01\00aj\02\00\7f\d6\01\00\81j\02\00\80\d6\01\00\a1j\02\00\81\d6\01\00\c1j\02\00\82\d6\01\00\e1j\02\00\83\d6\01\00\01k\02\00\84\d6\01\00!k\02\00\85\d6\01\00Ak\02\00\86\d6\01\00ak\02\00\87\d6\01\00\81k\02\00\88\d6\01\00\a1k\02\00\89\d6\01\00\c1k\02\00\8a\d6\01\00\e1k\02\00\8b\d6\01\00\01l\02\00\8c\d6\01\00!l\02\00\8d\d6\01\00Al\02\00\8e\d6\01\00al\02\00\8f\d6\01\00\81l\02\00\90\d6\01\00\a1l\02\00\91\d6\01\00\c1l\02\00\92\d6\01\00\e1l\02\00\93\d6\01\00\01m\02\00\94\d6\01\00!m\02\00\95\d6\01\00Am\02\00\96\d6\01\00am\02\00\97\d6\01\00\81m\02\00\98\d6\01\00\a1m\02\00\99\d6\01\00\c1m\02\00\9a\d6\01\00\e1m\02\00\9b\d6\01\00\01n\02\00\9c\d6\01\00!n\02\00\9d\d6\01\00An\02\00\9e\d6\01\00an\02\00\9f\d6\01\00\81n\02\00\a0\d6\01\00\a1n\02\00\a1\d6\01\00\c1n\02\00\a2\d6\01\00\e1n\02\00\a3\d6\01\00\01o\02\00\a4\d6\01\00!o\02\00\a5\d6\01\00Ao\02\00\a8\d6\01\00ao\02\00\a9\d6\01\00\81o\02\00\aa\d6\01\00\a1o\02\00\ab\d6\01\00\c1o\02\00\ac\d6\01\00\e1o\02\00\ad\d6\01\00\01p\02\00\ae\d6\01\00!p\02\00\af\d6\01\00Ap\02\00\b0\d6\01\00ap\02\00\b1\d6\01\00\81p\02\00\b2\d6\01\00\a1p\02\00\b3\d6\01\00\c1p\02\00\b4\d6\01\00\e1p\02\00\b5\d6\01\00\01q\02\00\b6\d6\01\00!q\02\00\b7\d6\01\00Aq\02\00\b8\d6\01\00aq\02\00\b9\d6\01\00\81q\02\00\ba\d6\01\00\a1q\02\00\bb\d6\01\00\c1q\02\00\bc\d6\01\00\e1q\02\00\bd\d6\01\00\01r\02\00\be\d6\01\00!r\02\00\bf\d6\01\00Ar\02\00\c0\d6\01\00ar\02\00\c1\d6\01\00\81r\02\00\c2\d6\01\00\a1r\02\00\c3\d6\01\00\c1r\02\00\c4\d6\01\00\e1r\02\00\c5\d6\01\00\01s\02\00\c6\d6\01\00!s\02\00\c7\d6\01\00As\02\00\c8\d6\01\00as\02\00\c9\d6\01\00\81s\02\00\ca\d6\01\00\a1s\02\00\cb\d6\01\00\c1s\02\00\cc\d6\01\00\e1s\02\00\cd\d6\01\00\01t\02\00\ce\d6\01\00!t\02\00\cf\d6\01\00At\02\00\d0\d6\01\00at\02\00\d1\d6\01\00\81t\02\00\d2\d6\01\00\a1t\02\00\d3\d6\01\00\c1t\02\00\d4\d6\01\00\e1t\02\00\d5\d6\01\00\01u\02\00\d6\d6\01\00!u\02\00\d7\d6\01\00Au\02\00\d8\d6\01\00au\02\00\d9\d6\01\00\81u\02\00\da\d6\01\00\a1u\02\00\db\d6\01\00\c1u\02\00\dc\d6\01\00\e1u\02\00\dd\d6\01\00\01v\02\00\de\d6\01\00!v\02\00\df\d6\01\00Av\02\00\e0\d6\01\00av\02\00\e1\d6\01\00\81v\02\00\e2\d6\01\00\a1v\02\00\e3\d6\01\00\c1v\02\00\e4\d6\01\00\e1v\02\00\e5\d6\01\00\01w\02\00\e6\d6\01\00!w\02\00\e7\d6\01\00Aw\02\00\e8\d6\01\00aw\02\00\e9\d6\01\00\81w\02\00\ea\d6\01\00\a1w\02\00\eb\d6\01\00\c1w\02\00\ec\d6\01\00\e1w\02\00\ed\d6\01\00\01x\02\00\ee\d6\01\00!x\02\00\ef\d6\01\00Ax\02\00\f0\d6\01\00ax\02\00\f1\d6\01\00\81x\02\00\f2\d6\01\00\a1x\02\00\f3\d6\01\00\c1x\02\00\f4\d6\01\00\e1x\02\00\f5\d6\01\00\01y\02\00\f6\d6\01\00!y\02\00\f7\d6\01\00Ay\02\00\f8\d6\01\00ay\02\00\f9\d6\01\00\81y\02\00\fa\d6\01\00\a1y\02\00\fb\d6\01\00\c1y\02\00\fc\d6\01\00\e1y\02\00\fd\d6\01\00\01z\02\00\fe\d6\01\00!z\02\00\ff\d6\01\00Az\02\00\00\d7\01\00az\02\00\01\d7\01\00\81z\02\00\02\d7\01\00\a1z\02\00\03\d7\01\00\c1z\02\00\04\d7\01\00\e1z\02\00\05\d7\01\00\01{\02\00\06\d7\01\00!{\02\00\07\d7\01\00A{\02\00\08\d7\01\00a{\02\00\t\d7\01\00\81{\02\00\n\d7\01\00\a1{\02\00\0b\d7\01\00\c1{\02\00\0c\d7\01\00\e1{\02\00\0d\d7\01\00\01|\02\00\0e\d7\01\00!|\02\00\0f\d7\01\00A|\02\00\10\d7\01\00a|\02\00\11\d7\01\00\81|\02\00\12\d7\01\00\a1|\02\00\13\d7\01\00\c1|\02\00\14\d7\01\00\e1|\02\00\15\d7\01\00\01}\02\00\16\d7\01\00!}\02\00\17\d7\01\00A}\02\00\18\d7\01\00a}\02\00\19\d7\01\00\81}\02\00\1a\d7\01\00\a1}\02\00\1b\d7\01\00\c1}\02\00\1c\d7\01\00\e1}\02\00\1d\d7\01\00\01~\02\00\1e\d7\01\00!~\02\00\1f\d7\01\00A~\02\00 \d7\01\00a~\02\00!\d7\01\00\81~\02\00\"\d7\01\00\a1~\02\00#\d7\01\00\c1~\02\00$\d7\01\00\e1~\02\00%\d7\01\00\01\7f\02\00&\d7\01\00!\7f\02\00\'\d7\01\00A\7f\02\00(\d7\01\00a\7f\02\00)\d7\01\00\81\7f\02\00*\d7\01\00\a1\7f\02\00+\d7\01\00\c1\7f\02\00,\d7\01\00\e1\7f\02\00-\d7\01\00\01\80\02\00.\d7\01\00!\80\02\00/\d7\01\00A\80\02\000\d7\01\00a\80\02\001\d7\01\00\81\80\02\002\d7\01\00\a1\80\02\003\d7\01\00\c1\80\02\004\d7\01\00\e1\80\02\005\d7\01\00\01\81\02\006\d7\01\00!\81\02\007\d7\01\00A\81\02\008\d7\01\00a\81\02\009\d7\01\00\81\81\02\00:\d7\01\00\a1\81\02\00;\d7\01\00\c1\81\02\00<\d7\01\00\e1\81\02\00=\d7\01\00\01\82\02\00>\d7\01\00!\82\02\00?\d7\01\00A\82\02\00@\d7\01\00a\82\02\00A\d7\01\00\81\82\02\00B\d7\01\00\a1\82\02\00C\d7\01\00\c1\82\02\00D\d7\01\00\e1\82\02\00E\d7\01\00\01\83\02\00F\d7\01\00!\83\02\00G\d7\01\00A\83\02\00H\d7\01\00a\83\02\00I\d7\01\00\81\83\02\00J\d7\01\00\a1\83\02\00K\d7\01\00\c1\83\02\00L\d7\01\00\e1\83\02\00M\d7\01\00\01\84\02\00N\d7\01\00!\84\02\00O\d7\01\00A\84\02\00P\d7\01\00a\84\02\00Q\d7\01\00\81\84\02\00R\d7\01\00\a1\84\02\00S\d7\01\00\c1\84\02\00T\d7\01\00\e1\84\02\00U\d7\01\00\01\85\02\00V\d7\01\00!\85\02\00W\d7\01\00A\85\02\00X\d7\01\00a\85\02\00Y\d7\01\00\81\85\02\00Z\d7\01\00\a1\85\02\00[\d7\01\00\c1\85\02\00\\\d7\01\00\e1\85\02\00]\d7\01\00\01\86\02\00^\d7\01\00!\86\02\00_\d7\01\00A\86\02\00`\d7\01\00a\86\02\00a\d7\01\00\81\86\02\00b\d7\01\00\a1\86\02\00c\d7\01\00\c1\86\02\00d\d7\01\00\e1\86\02\00e\d7\01\00\01\87\02\00f\d7\01\00!\87\02\00g\d7\01\00A\87\02\00h\d7\01\00a\87\02\00i\d7\01\00\81\87\02\00j\d7\01\00\a1\87\02\00k\d7\01\00\c1\87\02\00l\d7\01\00\e1\87\02\00m\d7\01\00\01\88\02\00n\d7\01\00!\88\02\00o\d7\01\00A\88\02\00p\d7\01\00a\88\02\00q\d7\01\00\81\88\02\00r\d7\01\00\a1\88\02\00s\d7\01\00\c1\88\02\00t\d7\01\00\e1\88\02\00u\d7\01\00\01\89\02\00v\d7\01\00!\89\02\00w\d7\01\00A\89\02\00x\d7\01\00a\89\02\00y\d7\01\00\81\89\02\00z\d7\01\00\a1\89\02\00{\d7\01\00\c1\89\02\00|\d7\01\00\e1\89\02\00}\d7\01\00\01\8a\02\00~\d7\01\00!\8a\02\00\7f\d7\01\00A\8a\02\00\80\d7\01\00a\8a\02\00\81\d7\01\00\81\8a\02\00\82\d7\01\00\a1\8a\02\00\83\d7\01\00\c1\8a\02\00\84\d7\01\00\e1\8a\02\00\85\d7\01\00\01\8b\02\00\86\d7\01\00!\8b\02\00\87\d7\01\00A\8b\02\00\88\d7\01\00a\8b\02\00\89\d7\01\00\81\8b\02\00\8a\d7\01\00\a1\8b\02\00\8b\d7\01\00\c1\8b\02\00\8c\d7\01\00\e1\8b\02\00\8d\d7\01\00\01\8c\02\00\8e\d7\01\00!\8c\02\00\8f\d7\01\00A\8c\02\00\90\d7\01\00a\8c\02\00\91\d7\01\00\81\8c\02\00\92\d7\01\00\a1\8c\02\00\93\d7\01\00\c1\8c\02\00\94\d7\01\00\e1\8c\02\00\95\d7\01\00\01\8d\02\00\96\d7\01\00!\8d\02\00\97\d7\01\00A\8d\02\00\98\d7\01\00a\8d\02\00\99\d7\01\00\81\8d\02\00\9a\d7\01\00\a1\8d\02\00\9b\d7\01\00\c1\8d\02\00\9c\d7\01\00\e1\8d\02\00\9d\d7\01\00\01\8e\02\00\9e\d7\01\00!\8e\02\00\9f\d7\01\00A\8e\02\00\a0\d7\01\00a\8e\02\00\a1\d7\01\00\81\8e\02\00\a2\d7\01\00\a1\8e\02\00\a3\d7\01\00\c1\8e\02\00\a4\d7\01\00\e1\8e\02\00\a5\d7\01\00\01\8f\02\00\a6\d7\01\00!\8f\02\00\a7\d7\01\00A\8f\02\00\a8\d7\01\00a\8f\02\00\a9\d7\01\00\81\8f\02\00\aa\d7\01\00\a1\8f\02\00\ab\d7\01\00\c1\8f\02\00\ac\d7\01\00\e1\8f\02\00\ad\d7\01\00\01\90\02\00\ae\d7\01\00!\90\02\00\af\d7\01\00A\90\02\00\b0\d7\01\00a\90\02\00\b1\d7\01\00\81\90\02\00\b2\d7\01\00\a1\90\02\00\b3\d7\01\00\c1\90\02\00\b4\d7\01\00\e1\90\02\00\b5\d7\01\00\01\91\02\00\b6\d7\01\00!\91\02\00\b7\d7\01\00A\91\02\00\b8\d7\01\00a\91\02\00\b9\d7\01\00\81\91\02\00\ba\d7\01\00\a1\91\02\00\bb\d7\01\00\c1\91\02\00\bc\d7\01\00\e1\91\02\00\bd\d7\01\00\01\92\02\00\be\d7\01\00!\92\02\00\bf\d7\01\00A\92\02\00\c0\d7\01\00a\92\02\00\c1\d7\01\00\81\92\02\00\c2\d7\01\00\a1\92\02\00\c3\d7\01\00\c1\92\02\00\c4\d7\01\00\e1\92\02\00\c5\d7\01\00\01\93\02\00\c6\d7\01\00!\93\02\00\c7\d7\01\00A\93\02\00\c8\d7\01\00a\93\02\00\c9\d7\01\00\81\93\02\00\ca\d7\01\00\a1\93\02\00\cb\d7\01\00\c1\93\02\00\ce\d7\01\00\e1\93\02\00\cf\d7\01\00\01\94\02\00\d0\d7\01\00!\94\02\00\d1\d7\01\00A\94\02\00\d2\d7\01\00a\94\02\00\d3\d7\01\00\81\94\02\00\d4\d7\01\00\a1\94\02\00\d5\d7\01\00\c1\94\02\00\d6\d7\01\00\e1\94\02\00\d7\d7\01\00\01\95\02\00\d8\d7\01\00!\95\02\00\d9\d7\01\00A\95\02\00\da\d7\01\00a\95\02\00\db\d7\01\00\81\95\02\00\dc\d7\01\00\a1\95\02\00\dd\d7\01\00\c1\95\02\00\de\d7\01\00\e1\95\02\00\df\d7\01\00\01\96\02\00\e0\d7\01\00!\96\02\00\e1\d7\01\00A\96\02\00\e2\d7\01\00a\96\02\00\e3\d7\01\00\81\96\02\00\e4\d7\01\00\a1\96\02\00\e5\d7\01\00\c1\96\02\00\e6\d7\01\00\e1\96\02\00\e7\d7\01\00\01\97\02\00\e8\d7\01\00!\97\02\00\e9\d7\01\00A\97\02\00\ea\d7\01\00a\97\02\00\eb\d7\01\00\81\97\02\00\ec\d7\01\00\a1\97\02\00\ed\d7\01\00\c1\97\02\00\ee\d7\01\00\e1\97\02\00\ef\d7\01\00\01\98\02\00\f0\d7\01\00!\98\02\00\f1\d7\01\00A\98\02\00\f2\d7\01\00a\98\02\00\f3\d7\01\00\81\98\02\00\f4\d7\01\00\a1\98\02\00\f5\d7\01\00\c1\98\02\00\f6\d7\01\00\e1\98\02\00\f7\d7\01\00\01\99\02\00\f8\d7\01\00!\99\02\00\f9\d7\01\00A\99\02\00\fa\d7\01\00a\99\02\00\fb\d7\01\00\81\99\02\00\fc\d7\01\00\a1\99\02\00\fd\d7\01\00\c1\99\02\00\fe\d7\01\00\e1\99\02\00\ff\d7\01\00\01\9a\02\000\e0\01\00!\9a\02\001\e0\01\00A\9a\02\002\e0\01\00a\9a\02\003\e0\01\00\81\9a\02\004\e0\01\00\a1\9a\02\005\e0\01\00\c1\9a\02\006\e0\01\00\e1\9a\02\007\e0\01\00\01\9b\02\008\e0\01\00!\9b\02\009\e0\01\00A\9b\02\00:\e0\01\00a\9b\02\00;\e0\01\00\81\9b\02\00<\e0\01\00\a1\9b\02\00=\e0\01\00\c1\9b\02\00>\e0\01\00\e1\9b\02\00?\e0\01\00\01\9c\02\00@\e0\01\00!\9c\02\00A\e0\01\00A\9c\02\00B\e0\01\00a\9c\02\00C\e0\01\00\81\9c\02\00D\e0\01\00\a1\9c\02\00E\e0\01\00\c1\9c\02\00F\e0\01\00\e1\9c\02\00G\e0\01\00\01\9d\02\00H\e0\01\00!\9d\02\00I\e0\01\00A\9d\02\00J\e0\01\00a\9d\02\00K\e0\01\00\81\9d\02\00L\e0\01\00\a1\9d\02\00M\e0\01\00\c1\9d\02\00N\e0\01\00\e1\9d\02\00O\e0\01\00\01\9e\02\00P\e0\01\00!\9e\02\00Q\e0\01\00A\9e\02\00R\e0\01\00a\9e\02\00S\e0\01\00\81\9e\02\00T\e0\01\00\a1\9e\02\00U\e0\01\00\c1\9e\02\00V\e0\01\00\e1\9e\02\00W\e0\01\00\01\9f\02\00X\e0\01\00!\9f\02\00Y\e0\01\00A\9f\02\00Z\e0\01\00a\9f\02\00[\e0\01\00\81\9f\02\00\\\e0\01\00\a1\9f\02\00]\e0\01\00\c1\9f\02\00^\e0\01\00\e1\9f\02\00_\e0\01\00\01\a0\02\00`\e0\01\00!\a0\02\00a\e0\01\00A\a0\02\00b\e0\01\00a\a0\02\00c\e0\01\00\81\a0\02\00d\e0\01\00\a1\a0\02\00e\e0\01\00\c1\a0\02\00f\e0\01\00\e1\a0\02\00g\e0\01\00\01\a1\02\00h\e0\01\00!\a1\02\00i\e0\01\00A\a1\02\00j\e0\01\00a\a1\02\00k\e0\01\00\81\a1\02\00l\e0\01\00\a1\a1\02\00m\e0\01\00\c1\a1\02\00\00\ee\01\00\e1\a1\02\00\01\ee\01\00\01\a2\02\00\02\ee\01\00!\a2\02\00\03\ee\01\00A\a2\02\00\05\ee\01\00a\a2\02\00\06\ee\01\00\81\a2\02\00\07\ee\01\00\a1\a2\02\00\08\ee\01\00\c1\a2\02\00\t\ee\01\00\e1\a2\02\00\n\ee\01\00\01\a3\02\00\0b\ee\01\00!\a3\02\00\0c\ee\01\00A\a3\02\00\0d\ee\01\00a\a3\02\00\0e\ee\01\00\81\a3\02\00\0f\ee\01\00\a1\a3\02\00\10\ee\01\00\c1\a3\02\00\11\ee\01\00\e1\a3\02\00\12\ee\01\00\01\a4\02\00\13\ee\01\00!\a4\02\00\14\ee\01\00A\a4\02\00\15\ee\01\00a\a4\02\00\16\ee\01\00\81\a4\02\00\17\ee\01\00\a1\a4\02\00\18\ee\01\00\c1\a4\02\00\19\ee\01\00\e1\a4\02\00\1a\ee\01\00\01\a5\02\00\1b\ee\01\00!\a5\02\00\1c\ee\01\00A\a5\02\00\1d\ee\01\00a\a5\02\00\1e\ee\01\00\81\a5\02\00\1f\ee\01\00\a1\a5\02\00!\ee\01\00\c1\a5\02\00\"\ee\01\00\e1\a5\02\00$\ee\01\00\01\a6\02\00\'\ee\01\00!\a6\02\00)\ee\01\00A\a6\02\00*\ee\01\00a\a6\02\00+\ee\01\00\81\a6\02\00,\ee\01\00\a1\a6\02\00-\ee\01\00\c1\a6\02\00.\ee\01\00\e1\a6\02\00/\ee\01\00\01\a7\02\000\ee\01\00!\a7\02\001\ee\01\00A\a7\02\002\ee\01\00a\a7\02\004\ee\01\00\81\a7\02\005\ee\01\00\a1\a7\02\006\ee\01\00\c1\a7\02\007\ee\01\00\e1\a7\02\009\ee\01\00\01\a8\02\00;\ee\01\00!\a8\02\00B\ee\01\00A\a8\02\00G\ee\01\00a\a8\02\00I\ee\01\00\81\a8\02\00K\ee\01\00\a1\a8\02\00M\ee\01\00\c1\a8\02\00N\ee\01\00\e1\a8\02\00O\ee\01\00\01\a9\02\00Q\ee\01\00!\a9\02\00R\ee\01\00A\a9\02\00T\ee\01\00a\a9\02\00W\ee\01\00\81\a9\02\00Y\ee\01\00\a1\a9\02\00[\ee\01\00\c1\a9\02\00]\ee\01\00\e1\a9\02\00_\ee\01\00\01\aa\02\00a\ee\01\00!\aa\02\00b\ee\01\00A\aa\02\00d\ee\01\00a\aa\02\00g\ee\01\00\81\aa\02\00h\ee\01\00\a1\aa\02\00i\ee\01\00\c1\aa\02\00j\ee\01\00\e1\aa\02\00l\ee\01\00\01\ab\02\00m\ee\01\00!\ab\02\00n\ee\01\00A\ab\02\00o\ee\01\00a\ab\02\00p\ee\01\00\81\ab\02\00q\ee\01\00\a1\ab\02\00r\ee\01\00\c1\ab\02\00t\ee\01\00\e1\ab\02\00u\ee\01\00\01\ac\02\00v\ee\01\00!\ac\02\00w\ee\01\00A\ac\02\00y\ee\01\00a\ac\02\00z\ee\01\00\81\ac\02\00{\ee\01\00\a1\ac\02\00|\ee\01\00\c1\ac\02\00~\ee\01\00\e1\ac\02\00\80\ee\01\00\01\ad\02\00\81\ee\01\00!\ad\02\00\82\ee\01\00A\ad\02\00\83\ee\01\00a\ad\02\00\84\ee\01\00\81\ad\02\00\85\ee\01\00\a1\ad\02\00\86\ee\01\00\c1\ad\02\00\87\ee\01\00\e1\ad\02\00\88\ee\01\00\01\ae\02\00\89\ee\01\00!\ae\02\00\8b\ee\01\00A\ae\02\00\8c\ee\01\00a\ae\02\00\8d\ee\01\00\81\ae\02\00\8e\ee\01\00\a1\ae\02\00\8f\ee\01\00\c1\ae\02\00\90\ee\01\00\e1\ae\02\00\91\ee\01\00\01\af\02\00\92\ee\01\00!\af\02\00\93\ee\01\00A\af\02\00\94\ee\01\00a\af\02\00\95\ee\01\00\81\af\02\00\96\ee\01\00\a1\af\02\00\97\ee\01\00\c1\af\02\00\98\ee\01\00\e1\af\02\00\99\ee\01\00\01\b0\02\00\9a\ee\01\00!\b0\02\00\9b\ee\01\00A\b0\02\00\a1\ee\01\00a\b0\02\00\a2\ee\01\00\81\b0\02\00\a3\ee\01\00\a1\b0\02\00\a5\ee\01\00\c1\b0\02\00\a6\ee\01\00\e1\b0\02\00\a7\ee\01\00\01\b1\02\00\a8\ee\01\00!\b1\02\00\a9\ee\01\00A\b1\02\00\ab\ee\01\00a\b1\02\00\ac\ee\01\00\81\b1\02\00\ad\ee\01\00\a1\b1\02\00\ae\ee\01\00\c1\b1\02\00\af\ee\01\00\e1\b1\02\00\b0\ee\01\00\01\b2\02\00\b1\ee\01\00!\b2\02\00\b2\ee\01\00A\b2\02\00\b3\ee\01\00a\b2\02\00\b4\ee\01\00\81\b2\02\00\b5\ee\01\00\a1\b2\02\00\b6\ee\01\00\c1\b2\02\00\b7\ee\01\00\e1\b2\02\00\b8\ee\01\00\01\b3\02\00\b9\ee\01\00!\b3\02\00\ba\ee\01\00A\b3\02\00\bb\ee\01\00a\b3\02\00\00\f1\01\00\82\b3\02\00\01\f1\01\00\c2\b3\02\00\02\f1\01\00\02\b4\02\00\03\f1\01\00B\b4\02\00\04\f1\01\00\82\b4\02\00\05\f1\01\00\c2\b4\02\00\06\f1\01\00\02\b5\02\00\07\f1\01\00B\b5\02\00\08\f1\01\00\82\b5\02\00\t\f1\01\00\c2\b5\02\00\n\f1\01\00\02\b6\02\00\10\f1\01\00C\b6\02\00\11\f1\01\00\a3\b6\02\00\12\f1\01\00\03\b7\02\00\13\f1\01\00c\b7\02\00\14\f1\01\00\c3\b7\02\00\15\f1\01\00#\b8\02\00\16\f1\01\00\83\b8\02\00\17\f1\01\00\e3\b8\02\00\18\f1\01\00C\b9\02\00\19\f1\01\00\a3\b9\02\00\1a\f1\01\00\03\ba\02\00\1b\f1\01\00c\ba\02\00\1c\f1\01\00\c3\ba\02\00\1d\f1\01\00#\bb\02\00\1e\f1\01\00\83\bb\02\00\1f\f1\01\00\e3\bb\02\00 \f1\01\00C\bc\02\00!\f1\01\00\a3\bc\02\00\"\f1\01\00\03\bd\02\00#\f1\01\00c\bd\02\00$\f1\01\00\c3\bd\02\00%\f1\01\00#\be\02\00&\f1\01\00\83\be\02\00\'\f1\01\00\e3\be\02\00(\f1\01\00C\bf\02\00)\f1\01\00\a3\bf\02\00*\f1\01\00\03\c0\02\00+\f1\01\00a\c0\02\00,\f1\01\00\81\c0\02\00-\f1\01\00\a2\c0\02\00.\f1\01\00\e2\c0\02\000\f1\01\00!\c1\02\001\f1\01\00A\c1\02\002\f1\01\00a\c1\02\003\f1\01\00\81\c1\02\004\f1\01\00\a1\c1\02\005\f1\01\00\c1\c1\02\006\f1\01\00\e1\c1\02\007\f1\01\00\01\c2\02\008\f1\01\00!\c2\02\009\f1\01\00A\c2\02\00:\f1\01\00a\c2\02\00;\f1\01\00\81\c2\02\00<\f1\01\00\a1\c2\02\00=\f1\01\00\c1\c2\02\00>\f1\01\00\e1\c2\02\00?\f1\01\00\01\c3\02\00@\f1\01\00!\c3\02\00A\f1\01\00A\c3\02\00B\f1\01\00a\c3\02\00C\f1\01\00\81\c3\02\00D\f1\01\00\a1\c3\02\00E\f1\01\00\c1\c3\02\00F\f1\01\00\e1\c3\02\00G\f1\01\00\01\c4\02\00H\f1\01\00!\c4\02\00I\f1\01\00A\c4\02\00J\f1\01\00b\c4\02\00K\f1\01\00\a2\c4\02\00L\f1\01\00\e2\c4\02\00M\f1\01\00\"\c5\02\00N\f1\01\00c\c5\02\00O\f1\01\00\c2\c5\02\00j\f1\01\00\02\c6\02\00k\f1\01\00B\c6\02\00l\f1\01\00\82\c6\02\00\90\f1\01\00\c2\c6\02\00\00\f2\01\00\02\c7\02\00\01\f2\01\00B\c7\02\00\02\f2\01\00\81\c7\02\00\10\f2\01\00\a1\c7\02\00\11\f2\01\00\c1\c7\02\00\12\f2\01\00\e1\c7\02\00\13\f2\01\00\02\c8\02\00\14\f2\01\00A\c8\02\00\15\f2\01\00a\c8\02\00\16\f2\01\00\81\c8\02\00\17\f2\01\00\a1\c8\02\00\18\f2\01\00\c1\c8\02\00\19\f2\01\00\e1\c8\02\00\1a\f2\01\00\01\c9\02\00\1b\f2\01\00!\c9\02\00\1c\f2\01\00A\c9\02\00\1d\f2\01\00a\c9\02\00\1e\f2\01\00\81\c9\02\00\1f\f2\01\00\a1\c9\02\00 \f2\01\00\c1\c9\02\00!\f2\01\00\e1\c9\02\00\"\f2\01\00\01\ca\02\00#\f2\01\00!\ca\02\00$\f2\01\00A\ca\02\00%\f2\01\00a\ca\02\00&\f2\01\00\81\ca\02\00\'\f2\01\00\a1\ca\02\00(\f2\01\00\c1\ca\02\00)\f2\01\00\e1\ca\02\00*\f2\01\00\01\cb\02\00+\f2\01\00!\cb\02\00,\f2\01\00A\cb\02\00-\f2\01\00a\cb\02\00.\f2\01\00\81\cb\02\00/\f2\01\00\a1\cb\02\000\f2\01\00\c1\cb\02\001\f2\01\00\e1\cb\02\002\f2\01\00\01\cc\02\003\f2\01\00!\cc\02\004\f2\01\00A\cc\02\005\f2\01\00a\cc\02\006\f2\01\00\81\cc\02\007\f2\01\00\a1\cc\02\008\f2\01\00\c1\cc\02\009\f2\01\00\e1\cc\02\00:\f2\01\00\01\cd\02\00;\f2\01\00!\cd\02\00@\f2\01\00C\cd\02\00A\f2\01\00\a3\cd\02\00B\f2\01\00\03\ce\02\00C\f2\01\00c\ce\02\00D\f2\01\00\c3\ce\02\00E\f2\01\00#\cf\02\00F\f2\01\00\83\cf\02\00G\f2\01\00\e3\cf\02\00H\f2\01\00C\d0\02\00P\f2\01\00\a1\d0\02\00Q\f2\01\00\c1\d0\02\00\f0\fb\01\00\e1\d0\02\00\f1\fb\01\00\01\d1\02\00\f2\fb\01\00!\d1\02\00\f3\fb\01\00A\d1\02\00\f4\fb\01\00a\d1\02\00\f5\fb\01\00\81\d1\02\00\f6\fb\01\00\a1\d1\02\00\f7\fb\01\00\c1\d1\02\00\f8\fb\01\00\e1\d1\02\00\f9\fb\01\00\01\d2\02\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 123768) "xc\01\00\10\1e\00\00")
+ (data (i32.const 123776) "\"-\00\00\00\00\00\00 \00 \00\08\03a\00 \00\04\032\003\00 \00\01\03\bc\03 \00\'\031\00o\001\00D 4\001\00D 2\003\00D 4\00I\00J\00i\00j\00L\00\b7\00l\00\b7\00\bc\02n\00s\00D\00Z\00\0c\03D\00z\00\0c\03d\00z\00\0c\03L\00J\00L\00j\00l\00j\00N\00J\00N\00j\00n\00j\00D\00Z\00D\00z\00d\00z\00h\00f\02j\00r\00y\02{\02\81\02w\00y\00 \00\06\03 \00\07\03 \00\n\03 \00(\03 \00\03\03 \00\0b\03c\02l\00s\00x\00\95\02 \00E\03 \00\01\03 \00\08\03\01\03\b2\03\b8\03\a5\03\a5\03\01\03\a5\03\08\03\c6\03\c0\03\ba\03\c1\03\c2\03\98\03\b5\03\a3\03e\05\82\05\'\06t\06H\06t\06\c7\06t\06J\06t\06M\0e2\0e\cd\0e\b2\0e\ab\0e\99\0e\ab\0e\a1\0e\0b\0f\b2\0fq\0f\80\0f\b3\0fq\0f\80\0f\dc\10A\00\c6\00B\00D\00E\00\8e\01G\00H\00I\00J\00K\00L\00M\00N\00O\00\"\02P\00R\00T\00U\00W\00a\00P\02Q\02\02\1db\00d\00e\00Y\02[\02\\\02g\00k\00m\00K\01o\00T\02\16\1d\17\1dp\00t\00u\00\1d\1do\02v\00%\1d\b2\03\b3\03\b4\03\c6\03\c7\03i\00r\00u\00v\00\b2\03\b3\03\c1\03\c6\03\c7\03=\04R\02c\00U\02\f0\00\\\02f\00_\02a\02e\02h\02i\02j\02{\1d\9d\02m\02\85\1d\9f\02q\02p\02r\02s\02t\02u\02x\02\82\02\83\02\ab\01\89\02\8a\02\1c\1d\8b\02\8c\02z\00\90\02\91\02\92\02\b8\03a\00\be\02s\00\07\03 \00\13\03 \00\13\03 \00B\03 \00\08\03B\03 \00\13\03\00\03 \00\13\03\01\03 \00\13\03B\03 \00\14\03\00\03 \00\14\03\01\03 \00\14\03B\03 \00\08\03\00\03 \00\08\03\01\03 \00\01\03 \00\14\03 \00 \00 \00 \00 \00 \00 \00 \00 \00 \00 \00\10  \003\03.\00.\00.\00.\00.\00.\00 \002 2 2 2 2 5 5 5 5 5 !\00!\00 \00\05\03?\00?\00?\00!\00!\00?\002 2 2 2  \000\00i\004\005\006\007\008\009\00+\00\12\"=\00(\00)\00n\000\001\002\003\004\005\006\007\008\009\00+\00\12\"=\00(\00)\00a\00e\00o\00x\00Y\02h\00k\00l\00m\00n\00p\00s\00t\00R\00s\00a\00/\00c\00a\00/\00s\00C\00\b0\00C\00c\00/\00o\00c\00/\00u\00\90\01\b0\00F\00g\00H\00H\00H\00h\00\'\01I\00I\00L\00l\00N\00N\00o\00P\00Q\00R\00R\00R\00S\00M\00T\00E\00L\00T\00M\00Z\00Z\00B\00C\00e\00E\00F\00M\00o\00\d0\05\d1\05\d2\05\d3\05i\00F\00A\00X\00\c0\03\b3\03\93\03\a0\03\11\"D\00d\00e\00i\00j\001\00D 7\001\00D 9\001\00D 1\000\001\00D 3\002\00D 3\001\00D 5\002\00D 5\003\00D 5\004\00D 5\001\00D 6\005\00D 6\001\00D 8\003\00D 8\005\00D 8\007\00D 8\001\00D I\00I\00I\00I\00I\00I\00I\00V\00V\00V\00I\00V\00I\00I\00V\00I\00I\00I\00I\00X\00X\00X\00I\00X\00I\00I\00L\00C\00D\00M\00i\00i\00i\00i\00i\00i\00i\00v\00v\00v\00i\00v\00i\00i\00v\00i\00i\00i\00i\00x\00x\00x\00i\00x\00i\00i\00l\00c\00d\00m\000\00D 3\00+\"+\"+\"+\"+\".\".\".\".\".\"1\002\003\004\005\006\007\008\009\001\000\001\001\001\002\001\003\001\004\001\005\001\006\001\007\001\008\001\009\002\000\00(\001\00)\00(\002\00)\00(\003\00)\00(\004\00)\00(\005\00)\00(\006\00)\00(\007\00)\00(\008\00)\00(\009\00)\00(\001\000\00)\00(\001\001\00)\00(\001\002\00)\00(\001\003\00)\00(\001\004\00)\00(\001\005\00)\00(\001\006\00)\00(\001\007\00)\00(\001\008\00)\00(\001\009\00)\00(\002\000\00)\001\00.\002\00.\003\00.\004\00.\005\00.\006\00.\007\00.\008\00.\009\00.\001\000\00.\001\001\00.\001\002\00.\001\003\00.\001\004\00.\001\005\00.\001\006\00.\001\007\00.\001\008\00.\001\009\00.\002\000\00.\00(\00a\00)\00(\00b\00)\00(\00c\00)\00(\00d\00)\00(\00e\00)\00(\00f\00)\00(\00g\00)\00(\00h\00)\00(\00i\00)\00(\00j\00)\00(\00k\00)\00(\00l\00)\00(\00m\00)\00(\00n\00)\00(\00o\00)\00(\00p\00)\00(\00q\00)\00(\00r\00)\00(\00s\00)\00(\00t\00)\00(\00u\00)\00(\00v\00)\00(\00w\00)\00(\00x\00)\00(\00y\00)\00(\00z\00)\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\000\00+\"+\"+\"+\":\00:\00=\00=\00=\00=\00=\00=\00j\00V\00a-\cdk\9f\9f\00N(N6N?NYN\85N\8cN\a0N\baN?QeQkQ\82Q\96Q\abQ\e0Q\f5Q\00R\9bR\f9R\15S\1aS8SAS\\SiS\82S\b6S\c8S\e3S\d7V\1fW\ebX\02Y\nY\15Y\'YsYP[\80[\f8[\0f\\\"\\8\\n\\q\\\db]\e5]\f1]\fe]r^z^\7f^\f4^\fe^\0b_\13_P_a_s_\c3_\08b6bKb/e4e\87e\97e\a4e\b9e\e0e\e5e\f0f\08g(g kbkyk\b3k\cbk\d4k\dbk\0fl\14l4lkp*r6r;r?rGrYr[r\acr\84s\89s\dct\e6t\18u\1fu(u0u\8bu\92uvv}v\aev\bfv\eev\dbw\e2w\f3w:y\b8y\beytz\cbz\f9zs|\f8|6\7fQ\7f\8a\7f\bd\7f\01\80\0c\80\12\803\80\7f\80\89\80\e3\81\ea\81\f3\81\fc\81\0c\82\1b\82\1f\82n\82r\82x\82M\86k\86@\88L\88c\88~\89\8b\89\d2\89\00\8a7\8cF\8cU\8cx\8c\9d\8cd\8dp\8d\b3\8d\ab\8e\ca\8e\9b\8f\b0\8f\b5\8f\91\90I\91\c6\91\cc\91\d1\91w\95\80\95\1c\96\b6\96\b9\96\e8\96Q\97^\97b\97i\97\cb\97\ed\97\f3\97\01\98\a8\98\db\98\df\98\96\99\99\99\ac\99\a8\9a\d8\9a\df\9a%\9b/\9b2\9b<\9bZ\9b\e5\9cu\9e\7f\9e\a5\9e\bb\9e\c3\9e\cd\9e\d1\9e\f9\9e\fd\9e\0e\9f\13\9f \9f;\9fJ\9fR\9f\8d\9f\9c\9f\a0\9f \00\120ASDSES \00\990 \00\9a0\880\8a0\b30\c80\00\11\01\11\aa\11\02\11\ac\11\ad\11\03\11\04\11\05\11\b0\11\b1\11\b2\11\b3\11\b4\11\b5\11\1a\11\06\11\07\11\08\11!\11\t\11\n\11\0b\11\0c\11\0d\11\0e\11\0f\11\10\11\11\11\12\11a\11b\11c\11d\11e\11f\11g\11h\11i\11j\11k\11l\11m\11n\11o\11p\11q\11r\11s\11t\11u\11`\11\14\11\15\11\c7\11\c8\11\cc\11\ce\11\d3\11\d7\11\d9\11\1c\11\dd\11\df\11\1d\11\1e\11 \11\"\11#\11\'\11)\11+\11,\11-\11.\11/\112\116\11@\11G\11L\11\f1\11\f2\11W\11X\11Y\11\84\11\85\11\88\11\91\11\92\11\94\11\9e\11\a1\11\00N\8cN\tN\dbV\nN-N\0bN2uYN\19N\01N)Y0W\baN(\00\00\11)\00(\00\02\11)\00(\00\03\11)\00(\00\05\11)\00(\00\06\11)\00(\00\07\11)\00(\00\t\11)\00(\00\0b\11)\00(\00\0c\11)\00(\00\0e\11)\00(\00\0f\11)\00(\00\10\11)\00(\00\11\11)\00(\00\12\11)\00(\00\00\11a\11)\00(\00\02\11a\11)\00(\00\03\11a\11)\00(\00\05\11a\11)\00(\00\06\11a\11)\00(\00\07\11a\11)\00(\00\t\11a\11)\00(\00\0b\11a\11)\00(\00\0c\11a\11)\00(\00\0e\11a\11)\00(\00\0f\11a\11)\00(\00\10\11a\11)\00(\00\11\11a\11)\00(\00\12\11a\11)\00(\00\0c\11n\11)\00(\00\0b\11i\11\0c\11e\11\ab\11)\00(\00\0b\11i\11\12\11n\11)\00(\00\00N)\00(\00\8cN)\00(\00\tN)\00(\00\dbV)\00(\00\94N)\00(\00mQ)\00(\00\03N)\00(\00kQ)\00(\00]N)\00(\00AS)\00(\00\08g)\00(\00kp)\00(\004l)\00(\00(g)\00(\00\d1\91)\00(\00\1fW)\00(\00\e5e)\00(\00*h)\00(\00\tg)\00(\00>y)\00(\00\0dT)\00(\00yr)\00(\00\a1\8c)\00(\00]y)\00(\00\b4R)\00(\00\e3N)\00(\00|T)\00(\00f[)\00(\00\e3v)\00(\00\01O)\00(\00\c7\8c)\00(\00TS)\00(\00my)\00(\00\11O)\00(\00\ea\81)\00(\00\f3\81)\00OU|^\87e\8f{P\00T\00E\002\001\002\002\002\003\002\004\002\005\002\006\002\007\002\008\002\009\003\000\003\001\003\002\003\003\003\004\003\005\00\00\11\02\11\03\11\05\11\06\11\07\11\t\11\0b\11\0c\11\0e\11\0f\11\10\11\11\11\12\11\00\11a\11\02\11a\11\03\11a\11\05\11a\11\06\11a\11\07\11a\11\t\11a\11\0b\11a\11\0c\11a\11\0e\11a\11\0f\11a\11\10\11a\11\11\11a\11\12\11a\11\0e\11a\11\b7\11\00\11i\11\0c\11n\11\0b\11t\11\0b\11n\11\00N\8cN\tN\dbV\94NmQ\03NkQ]NAS\08gkp4l(g\d1\91\1fW\e5e*h\tg>y\0dTyr\a1\8c]y\b4R\d8y7usYi\90*QpS\e8l\05\98\11O\99Qck\nN-N\0bN\e6]\f3S;S\97[f[\e3v\01O\c7\8cTS\1cY3\006\003\007\003\008\003\009\004\000\004\001\004\002\004\003\004\004\004\005\004\006\004\007\004\008\004\009\005\000\001\00\08g2\00\08g3\00\08g4\00\08g5\00\08g6\00\08g7\00\08g8\00\08g9\00\08g1\000\00\08g1\001\00\08g1\002\00\08gH\00g\00e\00r\00g\00e\00V\00L\00T\00D\00\a20\a40\a60\a80\aa0\ab0\ad0\af0\b10\b30\b50\b70\b90\bb0\bd0\bf0\c10\c40\c60\c80\ca0\cb0\cc0\cd0\ce0\cf0\d20\d50\d80\db0\de0\df0\e00\e10\e20\e40\e60\e80\e90\ea0\eb0\ec0\ed0\ef0\f00\f10\f20\e4N\8cT\a20\cf0\9a0\fc0\c80\a20\eb0\d50\a10\a20\f30\d80\9a0\a20\a20\fc0\eb0\a40\cb0\f30\af0\990\a40\f30\c10\a60\a90\f30\a80\b90\af0\fc0\c80\990\a80\fc0\ab0\fc0\aa0\f30\b90\aa0\fc0\e00\ab0\a40\ea0\ab0\e90\c30\c80\ab0\ed0\ea0\fc0\ab0\990\ed0\f30\ab0\990\f30\de0\ad0\990\ab0\990\ad0\990\cb0\fc0\ad0\e50\ea0\fc0\ad0\990\eb0\bf0\990\fc0\ad0\ed0\ad0\ed0\af0\990\e90\e00\ad0\ed0\e10\fc0\c80\eb0\ad0\ed0\ef0\c30\c80\af0\990\e90\e00\af0\990\e90\e00\c80\f30\af0\eb0\bb0\990\a40\ed0\af0\ed0\fc0\cd0\b10\fc0\b90\b30\eb0\ca0\b30\fc0\db0\9a0\b50\a40\af0\eb0\b50\f30\c10\fc0\e00\b70\ea0\f30\af0\990\bb0\f30\c10\bb0\f30\c80\bf0\990\fc0\b90\c60\990\b70\c80\990\eb0\c80\f30\ca0\ce0\ce0\c30\c80\cf0\a40\c40\cf0\9a0\fc0\bb0\f30\c80\cf0\9a0\fc0\c40\cf0\990\fc0\ec0\eb0\d20\9a0\a20\b90\c80\eb0\d20\9a0\af0\eb0\d20\9a0\b30\d20\990\eb0\d50\a10\e90\c30\c80\990\d50\a30\fc0\c80\d50\990\c30\b70\a70\eb0\d50\e90\f30\d80\af0\bf0\fc0\eb0\d80\9a0\bd0\d80\9a0\cb0\d20\d80\eb0\c40\d80\9a0\f30\b90\d80\9a0\fc0\b70\990\d80\990\fc0\bf0\db0\9a0\a40\f30\c80\db0\990\eb0\c80\db0\f30\db0\9a0\f30\c80\990\db0\fc0\eb0\db0\fc0\f30\de0\a40\af0\ed0\de0\a40\eb0\de0\c30\cf0\de0\eb0\af0\de0\f30\b70\e70\f30\df0\af0\ed0\f30\df0\ea0\df0\ea0\cf0\990\fc0\eb0\e10\ab0\990\e10\ab0\990\c80\f30\e10\fc0\c80\eb0\e40\fc0\c80\990\e40\fc0\eb0\e60\a20\f30\ea0\c30\c80\eb0\ea0\e90\eb0\d20\9a0\fc0\eb0\fc0\d50\990\eb0\ec0\e00\ec0\f30\c80\b10\990\f30\ef0\c30\c800\00\b9p1\00\b9p2\00\b9p3\00\b9p4\00\b9p5\00\b9p6\00\b9p7\00\b9p8\00\b9p9\00\b9p1\000\00\b9p1\001\00\b9p1\002\00\b9p1\003\00\b9p1\004\00\b9p1\005\00\b9p1\006\00\b9p1\007\00\b9p1\008\00\b9p1\009\00\b9p2\000\00\b9p2\001\00\b9p2\002\00\b9p2\003\00\b9p2\004\00\b9ph\00P\00a\00d\00a\00A\00U\00b\00a\00r\00o\00V\00p\00c\00d\00m\00d\00m\002\00d\00m\003\00I\00U\00s^\10b-f\8cT\'Yck\0ef\bbl*h\0f_\1aO>yp\00A\00n\00A\00\bc\03A\00m\00A\00k\00A\00K\00B\00M\00B\00G\00B\00c\00a\00l\00k\00c\00a\00l\00p\00F\00n\00F\00\bc\03F\00\bc\03g\00m\00g\00k\00g\00H\00z\00k\00H\00z\00M\00H\00z\00G\00H\00z\00T\00H\00z\00\bc\03l\00m\00l\00d\00l\00k\00l\00f\00m\00n\00m\00\bc\03m\00m\00m\00c\00m\00k\00m\00m\00m\002\00c\00m\002\00m\002\00k\00m\002\00m\00m\003\00c\00m\003\00m\003\00k\00m\003\00m\00\15\"s\00m\00\15\"s\002\00P\00a\00k\00P\00a\00M\00P\00a\00G\00P\00a\00r\00a\00d\00r\00a\00d\00\15\"s\00r\00a\00d\00\15\"s\002\00p\00s\00n\00s\00\bc\03s\00m\00s\00p\00V\00n\00V\00\bc\03V\00m\00V\00k\00V\00M\00V\00p\00W\00n\00W\00\bc\03W\00m\00W\00k\00W\00M\00W\00k\00\a9\03M\00\a9\03a\00.\00m\00.\00B\00q\00c\00c\00c\00d\00C\00\15\"k\00g\00C\00o\00.\00d\00B\00G\00y\00h\00a\00H\00P\00i\00n\00K\00K\00K\00M\00k\00t\00l\00m\00l\00n\00l\00o\00g\00l\00x\00m\00b\00m\00i\00l\00m\00o\00l\00P\00H\00p\00.\00m\00.\00P\00P\00M\00P\00R\00s\00r\00S\00v\00W\00b\00V\00\15\"m\00A\00\15\"m\001\00\e5e2\00\e5e3\00\e5e4\00\e5e5\00\e5e6\00\e5e7\00\e5e8\00\e5e9\00\e5e1\000\00\e5e1\001\00\e5e1\002\00\e5e1\003\00\e5e1\004\00\e5e1\005\00\e5e1\006\00\e5e1\007\00\e5e1\008\00\e5e1\009\00\e5e2\000\00\e5e2\001\00\e5e2\002\00\e5e2\003\00\e5e2\004\00\e5e2\005\00\e5e2\006\00\e5e2\007\00\e5e2\008\00\e5e2\009\00\e5e3\000\00\e5e3\001\00\e5eg\00a\00l\00J\04L\04o\a7C\00F\00Q\00&\01S\01\'\a77\abk\02R\ab\8d\02f\00f\00f\00i\00f\00l\00f\00f\00i\00f\00f\00l\00s\00t\00s\00t\00t\05v\05t\05e\05t\05k\05~\05v\05t\05m\05\e2\05\d0\05\d3\05\d4\05\db\05\dc\05\dd\05\e8\05\ea\05+\00\d0\05\dc\05q\06q\06{\06{\06{\06{\06~\06~\06~\06~\06\80\06\80\06\80\06\80\06z\06z\06z\06z\06\7f\06\7f\06\7f\06\7f\06y\06y\06y\06y\06\a4\06\a4\06\a4\06\a4\06\a6\06\a6\06\a6\06\a6\06\84\06\84\06\84\06\84\06\83\06\83\06\83\06\83\06\86\06\86\06\86\06\86\06\87\06\87\06\87\06\87\06\8d\06\8d\06\8c\06\8c\06\8e\06\8e\06\88\06\88\06\98\06\98\06\91\06\91\06\a9\06\a9\06\a9\06\a9\06\af\06\af\06\af\06\af\06\b3\06\b3\06\b3\06\b3\06\b1\06\b1\06\b1\06\b1\06\ba\06\ba\06\bb\06\bb\06\bb\06\bb\06\d5\06T\06\d5\06T\06\c1\06\c1\06\c1\06\c1\06\be\06\be\06\be\06\be\06\d2\06\d2\06\d2\06T\06\d2\06T\06\ad\06\ad\06\ad\06\ad\06\c7\06\c7\06\c6\06\c6\06\c8\06\c8\06\c7\06t\06\cb\06\cb\06\c5\06\c5\06\c9\06\c9\06\d0\06\d0\06\d0\06\d0\06I\06I\06J\06T\06\'\06J\06T\06\'\06J\06T\06\d5\06J\06T\06\d5\06J\06T\06H\06J\06T\06H\06J\06T\06\c7\06J\06T\06\c7\06J\06T\06\c6\06J\06T\06\c6\06J\06T\06\c8\06J\06T\06\c8\06J\06T\06\d0\06J\06T\06\d0\06J\06T\06\d0\06J\06T\06I\06J\06T\06I\06J\06T\06I\06\cc\06\cc\06\cc\06\cc\06J\06T\06,\06J\06T\06-\06J\06T\06E\06J\06T\06I\06J\06T\06J\06(\06,\06(\06-\06(\06.\06(\06E\06(\06I\06(\06J\06*\06,\06*\06-\06*\06.\06*\06E\06*\06I\06*\06J\06+\06,\06+\06E\06+\06I\06+\06J\06,\06-\06,\06E\06-\06,\06-\06E\06.\06,\06.\06-\06.\06E\063\06,\063\06-\063\06.\063\06E\065\06-\065\06E\066\06,\066\06-\066\06.\066\06E\067\06-\067\06E\068\06E\069\06,\069\06E\06:\06,\06:\06E\06A\06,\06A\06-\06A\06.\06A\06E\06A\06I\06A\06J\06B\06-\06B\06E\06B\06I\06B\06J\06C\06\'\06C\06,\06C\06-\06C\06.\06C\06D\06C\06E\06C\06I\06C\06J\06D\06,\06D\06-\06D\06.\06D\06E\06D\06I\06D\06J\06E\06,\06E\06-\06E\06.\06E\06E\06E\06I\06E\06J\06F\06,\06F\06-\06F\06.\06F\06E\06F\06I\06F\06J\06G\06,\06G\06E\06G\06I\06G\06J\06J\06,\06J\06-\06J\06.\06J\06E\06J\06I\06J\06J\060\06p\061\06p\06I\06p\06 \00L\06Q\06 \00M\06Q\06 \00N\06Q\06 \00O\06Q\06 \00P\06Q\06 \00Q\06p\06J\06T\061\06J\06T\062\06J\06T\06E\06J\06T\06F\06J\06T\06I\06J\06T\06J\06(\061\06(\062\06(\06E\06(\06F\06(\06I\06(\06J\06*\061\06*\062\06*\06E\06*\06F\06*\06I\06*\06J\06+\061\06+\062\06+\06E\06+\06F\06+\06I\06+\06J\06A\06I\06A\06J\06B\06I\06B\06J\06C\06\'\06C\06D\06C\06E\06C\06I\06C\06J\06D\06E\06D\06I\06D\06J\06E\06\'\06E\06E\06F\061\06F\062\06F\06E\06F\06F\06F\06I\06F\06J\06I\06p\06J\061\06J\062\06J\06E\06J\06F\06J\06I\06J\06J\06J\06T\06,\06J\06T\06-\06J\06T\06.\06J\06T\06E\06J\06T\06G\06(\06,\06(\06-\06(\06.\06(\06E\06(\06G\06*\06,\06*\06-\06*\06.\06*\06E\06*\06G\06+\06E\06,\06-\06,\06E\06-\06,\06-\06E\06.\06,\06.\06E\063\06,\063\06-\063\06.\063\06E\065\06-\065\06.\065\06E\066\06,\066\06-\066\06.\066\06E\067\06-\068\06E\069\06,\069\06E\06:\06,\06:\06E\06A\06,\06A\06-\06A\06.\06A\06E\06B\06-\06B\06E\06C\06,\06C\06-\06C\06.\06C\06D\06C\06E\06D\06,\06D\06-\06D\06.\06D\06E\06D\06G\06E\06,\06E\06-\06E\06.\06E\06E\06F\06,\06F\06-\06F\06.\06F\06E\06F\06G\06G\06,\06G\06E\06G\06p\06J\06,\06J\06-\06J\06.\06J\06E\06J\06G\06J\06T\06E\06J\06T\06G\06(\06E\06(\06G\06*\06E\06*\06G\06+\06E\06+\06G\063\06E\063\06G\064\06E\064\06G\06C\06D\06C\06E\06D\06E\06F\06E\06F\06G\06J\06E\06J\06G\06@\06N\06Q\06@\06O\06Q\06@\06P\06Q\067\06I\067\06J\069\06I\069\06J\06:\06I\06:\06J\063\06I\063\06J\064\06I\064\06J\06-\06I\06-\06J\06,\06I\06,\06J\06.\06I\06.\06J\065\06I\065\06J\066\06I\066\06J\064\06,\064\06-\064\06.\064\06E\064\061\063\061\065\061\066\061\067\06I\067\06J\069\06I\069\06J\06:\06I\06:\06J\063\06I\063\06J\064\06I\064\06J\06-\06I\06-\06J\06,\06I\06,\06J\06.\06I\06.\06J\065\06I\065\06J\066\06I\066\06J\064\06,\064\06-\064\06.\064\06E\064\061\063\061\065\061\066\061\064\06,\064\06-\064\06.\064\06E\063\06G\064\06G\067\06E\063\06,\063\06-\063\06.\064\06,\064\06-\064\06.\067\06E\068\06E\06\'\06K\06\'\06K\06*\06,\06E\06*\06-\06,\06*\06-\06,\06*\06-\06E\06*\06.\06E\06*\06E\06,\06*\06E\06-\06*\06E\06.\06,\06E\06-\06,\06E\06-\06-\06E\06J\06-\06E\06I\063\06-\06,\063\06,\06-\063\06,\06I\063\06E\06-\063\06E\06-\063\06E\06,\063\06E\06E\063\06E\06E\065\06-\06-\065\06-\06-\065\06E\06E\064\06-\06E\064\06-\06E\064\06,\06J\064\06E\06.\064\06E\06.\064\06E\06E\064\06E\06E\066\06-\06I\066\06.\06E\066\06.\06E\067\06E\06-\067\06E\06-\067\06E\06E\067\06E\06J\069\06,\06E\069\06E\06E\069\06E\06E\069\06E\06I\06:\06E\06E\06:\06E\06J\06:\06E\06I\06A\06.\06E\06A\06.\06E\06B\06E\06-\06B\06E\06E\06D\06-\06E\06D\06-\06J\06D\06-\06I\06D\06,\06,\06D\06,\06,\06D\06.\06E\06D\06.\06E\06D\06E\06-\06D\06E\06-\06E\06-\06,\06E\06-\06E\06E\06-\06J\06E\06,\06-\06E\06,\06E\06E\06.\06,\06E\06.\06E\06E\06,\06.\06G\06E\06,\06G\06E\06E\06F\06-\06E\06F\06-\06I\06F\06,\06E\06F\06,\06E\06F\06,\06I\06F\06E\06J\06F\06E\06I\06J\06E\06E\06J\06E\06E\06(\06.\06J\06*\06,\06J\06*\06,\06I\06*\06.\06J\06*\06.\06I\06*\06E\06J\06*\06E\06I\06,\06E\06J\06,\06-\06I\06,\06E\06I\063\06.\06I\065\06-\06J\064\06-\06J\066\06-\06J\06D\06,\06J\06D\06E\06J\06J\06-\06J\06J\06,\06J\06J\06E\06J\06E\06E\06J\06B\06E\06J\06F\06-\06J\06B\06E\06-\06D\06-\06E\069\06E\06J\06C\06E\06J\06F\06,\06-\06E\06.\06J\06D\06,\06E\06C\06E\06E\06D\06,\06E\06F\06,\06-\06,\06-\06J\06-\06,\06J\06E\06,\06J\06A\06E\06J\06(\06-\06J\06C\06E\06E\069\06,\06E\065\06E\06E\063\06.\06J\06F\06,\06J\065\06D\06\d2\06B\06D\06\d2\06\'\06D\06D\06G\06\'\06C\06(\061\06E\06-\06E\06/\065\06D\069\06E\061\063\06H\06D\069\06D\06J\06G\06H\063\06D\06E\065\06D\06I\065\06D\06I\06 \00\'\06D\06D\06G\06 \009\06D\06J\06G\06 \00H\063\06D\06E\06,\06D\06 \00,\06D\06\'\06D\06G\061\06\cc\06\'\06D\06,\00\010\020:\00;\00!\00?\00\160\170.\00.\00.\00.\00.\00\14 \13 _\00_\00(\00)\00{\00}\00\140\150\100\110\n0\0b0\080\t0\0c0\0d0\0e0\0f0[\00]\00 \00\05\03 \00\05\03 \00\05\03 \00\05\03_\00_\00_\00,\00\010.\00;\00:\00?\00!\00\14 (\00)\00{\00}\00\140\150#\00&\00*\00+\00-\00<\00>\00=\00\\\00$\00%\00@\00 \00K\06@\06K\06 \00L\06 \00M\06 \00N\06@\06N\06 \00O\06@\06O\06 \00P\06@\06P\06 \00Q\06@\06Q\06 \00R\06@\06R\06!\06\'\06S\06\'\06S\06\'\06T\06\'\06T\06H\06T\06H\06T\06\'\06U\06\'\06U\06J\06T\06J\06T\06J\06T\06J\06T\06\'\06\'\06(\06(\06(\06(\06)\06)\06*\06*\06*\06*\06+\06+\06+\06+\06,\06,\06,\06,\06-\06-\06-\06-\06.\06.\06.\06.\06/\06/\060\060\061\061\062\062\063\063\063\063\064\064\064\064\065\065\065\065\066\066\066\066\067\067\067\067\068\068\068\068\069\069\069\069\06:\06:\06:\06:\06A\06A\06A\06A\06B\06B\06B\06B\06C\06C\06C\06C\06D\06D\06D\06D\06E\06E\06E\06E\06F\06F\06F\06F\06G\06G\06G\06G\06H\06H\06I\06I\06J\06J\06J\06J\06D\06\'\06S\06D\06\'\06S\06D\06\'\06T\06D\06\'\06T\06D\06\'\06U\06D\06\'\06U\06D\06\'\06D\06\'\06!\00\"\00#\00$\00%\00&\00\'\00(\00)\00*\00+\00,\00-\00.\00/\000\001\002\003\004\005\006\007\008\009\00:\00;\00<\00=\00>\00?\00@\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00[\00\\\00]\00^\00_\00`\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00{\00|\00}\00~\00\85)\86)\020\0c0\0d0\010\fb0\f20\a10\a30\a50\a70\a90\e30\e50\e70\c30\fc0\a20\a40\a60\a80\aa0\ab0\ad0\af0\b10\b30\b50\b70\b90\bb0\bd0\bf0\c10\c40\c60\c80\ca0\cb0\cc0\cd0\ce0\cf0\d20\d50\d80\db0\de0\df0\e00\e10\e20\e40\e60\e80\e90\ea0\eb0\ec0\ed0\ef0\f30\990\9a0`\11\00\11\01\11\aa\11\02\11\ac\11\ad\11\03\11\04\11\05\11\b0\11\b1\11\b2\11\b3\11\b4\11\b5\11\1a\11\06\11\07\11\08\11!\11\t\11\n\11\0b\11\0c\11\0d\11\0e\11\0f\11\10\11\11\11\12\11a\11b\11c\11d\11e\11f\11g\11h\11i\11j\11k\11l\11m\11n\11o\11p\11q\11r\11s\11t\11u\11\a2\00\a3\00\ac\00 \00\04\03\a6\00\a5\00\a9 \02%\90!\91!\92!\93!\a0%\cb%\d0\02\d1\02\e6\00\99\02S\02\a3\02f\ab\a5\02\a4\02V\02W\02\91\1dX\02^\02\a9\02d\02b\02`\02\9b\02\'\01\9c\02g\02\84\02\aa\02\ab\02l\027\d8\04\df\8e\a7n\027\d8\05\df\8e\027\d8\06\df\f8\00v\02w\02q\00z\027\d8\08\df}\02~\02\80\02\a8\02\a6\02g\ab\a7\02\88\02q,\8f\02\a1\02\a2\02\98\02\c0\01\c1\01\c2\017\d8\n\df7\d8\1e\dfA\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\000\001\002\003\004\005\006\007\008\009\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00C\00D\00G\00J\00K\00N\00O\00P\00Q\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00f\00h\00i\00j\00k\00l\00m\00n\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00D\00E\00F\00G\00J\00K\00L\00M\00N\00O\00P\00Q\00S\00T\00U\00V\00W\00X\00Y\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00D\00E\00F\00G\00I\00J\00K\00L\00M\00O\00S\00T\00U\00V\00W\00X\00Y\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\001\017\02\91\03\92\03\93\03\94\03\95\03\96\03\97\03\98\03\99\03\9a\03\9b\03\9c\03\9d\03\9e\03\9f\03\a0\03\a1\03\98\03\a3\03\a4\03\a5\03\a6\03\a7\03\a8\03\a9\03\07\"\b1\03\b2\03\b3\03\b4\03\b5\03\b6\03\b7\03\b8\03\b9\03\ba\03\bb\03\bc\03\bd\03\be\03\bf\03\c0\03\c1\03\c2\03\c3\03\c4\03\c5\03\c6\03\c7\03\c8\03\c9\03\02\"\b5\03\b8\03\ba\03\c6\03\c1\03\c0\03\91\03\92\03\93\03\94\03\95\03\96\03\97\03\98\03\99\03\9a\03\9b\03\9c\03\9d\03\9e\03\9f\03\a0\03\a1\03\98\03\a3\03\a4\03\a5\03\a6\03\a7\03\a8\03\a9\03\07\"\b1\03\b2\03\b3\03\b4\03\b5\03\b6\03\b7\03\b8\03\b9\03\ba\03\bb\03\bc\03\bd\03\be\03\bf\03\c0\03\c1\03\c2\03\c3\03\c4\03\c5\03\c6\03\c7\03\c8\03\c9\03\02\"\b5\03\b8\03\ba\03\c6\03\c1\03\c0\03\91\03\92\03\93\03\94\03\95\03\96\03\97\03\98\03\99\03\9a\03\9b\03\9c\03\9d\03\9e\03\9f\03\a0\03\a1\03\98\03\a3\03\a4\03\a5\03\a6\03\a7\03\a8\03\a9\03\07\"\b1\03\b2\03\b3\03\b4\03\b5\03\b6\03\b7\03\b8\03\b9\03\ba\03\bb\03\bc\03\bd\03\be\03\bf\03\c0\03\c1\03\c2\03\c3\03\c4\03\c5\03\c6\03\c7\03\c8\03\c9\03\02\"\b5\03\b8\03\ba\03\c6\03\c1\03\c0\03\91\03\92\03\93\03\94\03\95\03\96\03\97\03\98\03\99\03\9a\03\9b\03\9c\03\9d\03\9e\03\9f\03\a0\03\a1\03\98\03\a3\03\a4\03\a5\03\a6\03\a7\03\a8\03\a9\03\07\"\b1\03\b2\03\b3\03\b4\03\b5\03\b6\03\b7\03\b8\03\b9\03\ba\03\bb\03\bc\03\bd\03\be\03\bf\03\c0\03\c1\03\c2\03\c3\03\c4\03\c5\03\c6\03\c7\03\c8\03\c9\03\02\"\b5\03\b8\03\ba\03\c6\03\c1\03\c0\03\91\03\92\03\93\03\94\03\95\03\96\03\97\03\98\03\99\03\9a\03\9b\03\9c\03\9d\03\9e\03\9f\03\a0\03\a1\03\98\03\a3\03\a4\03\a5\03\a6\03\a7\03\a8\03\a9\03\07\"\b1\03\b2\03\b3\03\b4\03\b5\03\b6\03\b7\03\b8\03\b9\03\ba\03\bb\03\bc\03\bd\03\be\03\bf\03\c0\03\c1\03\c2\03\c3\03\c4\03\c5\03\c6\03\c7\03\c8\03\c9\03\02\"\b5\03\b8\03\ba\03\c6\03\c1\03\c0\03\dc\03\dd\030\001\002\003\004\005\006\007\008\009\000\001\002\003\004\005\006\007\008\009\000\001\002\003\004\005\006\007\008\009\000\001\002\003\004\005\006\007\008\009\000\001\002\003\004\005\006\007\008\009\000\041\042\043\044\045\046\047\048\04:\04;\04<\04>\04?\04@\04A\04B\04C\04D\04E\04F\04G\04H\04K\04M\04N\04\89\a6\d9\04V\04X\04\e9\04\af\04\cf\040\041\042\043\044\045\046\047\048\04:\04;\04>\04?\04A\04C\04D\04E\04F\04G\04H\04J\04K\04\91\04V\04U\04_\04\ab\04Q\a6\b1\04\'\06(\06,\06/\06H\062\06-\067\06J\06C\06D\06E\06F\063\069\06A\065\06B\061\064\06*\06+\06.\060\066\068\06:\06n\06\ba\06\a1\06o\06(\06,\06G\06-\06J\06C\06D\06E\06F\063\069\06A\065\06B\064\06*\06+\06.\066\06:\06,\06-\06J\06D\06F\063\069\065\06B\064\06.\066\06:\06\ba\06o\06(\06,\06G\06-\067\06J\06C\06E\06F\063\069\06A\065\06B\064\06*\06+\06.\066\068\06:\06n\06\a1\06\'\06(\06,\06/\06G\06H\062\06-\067\06J\06D\06E\06F\063\069\06A\065\06B\061\064\06*\06+\06.\060\066\068\06:\06(\06,\06/\06H\062\06-\067\06J\06D\06E\06F\063\069\06A\065\06B\061\064\06*\06+\06.\060\066\068\06:\060\00.\000\00,\001\00,\002\00,\003\00,\004\00,\005\00,\006\00,\007\00,\008\00,\009\00,\00(\00A\00)\00(\00B\00)\00(\00C\00)\00(\00D\00)\00(\00E\00)\00(\00F\00)\00(\00G\00)\00(\00H\00)\00(\00I\00)\00(\00J\00)\00(\00K\00)\00(\00L\00)\00(\00M\00)\00(\00N\00)\00(\00O\00)\00(\00P\00)\00(\00Q\00)\00(\00R\00)\00(\00S\00)\00(\00T\00)\00(\00U\00)\00(\00V\00)\00(\00W\00)\00(\00X\00)\00(\00Y\00)\00(\00Z\00)\00\140S\00\150C\00R\00C\00D\00W\00Z\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00H\00V\00M\00V\00S\00D\00S\00S\00P\00P\00V\00W\00C\00M\00C\00M\00D\00M\00R\00D\00J\00{0K0\b30\b30\b50KbW[\ccS\c60\990\8cN\1aY\e3\89)Y\a4N f!q\99eMR\8c_\8dQ\b0e\1dRB}\1fu\a9\8c\f0X9T\14o\95bUc\00N\tNJ\90\e6]-N\f3S\07cp\8dSb\81yzz\08T\80n\tg\08g3urR\b6UM\91\140,g\150\140\tN\150\140\8cN\150\140\89[\150\140\b9p\150\140Sb\150\140\d7v\150\140\ddR\150\140We\150\97_\efS0\001\002\003\004\005\006\007\008\009\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 140160) "\80\e3\01\00\91\16\00\00")
+ (data (i32.const 140168) "l\12\00\00\00\00\00\00\00\03\00\00\14\03\00\003\00\00\00\15\03\00\00\15\03\00\004\00\00\00\16\03\00\00\19\03\00\00.\00\00\00\1a\03\00\00\1a\03\00\004\00\00\00\1b\03\00\00\1b\03\00\00,\00\00\00\1c\03\00\00 \03\00\00.\00\00\00!\03\00\00\"\03\00\00*\00\00\00#\03\00\00&\03\00\00.\00\00\00\'\03\00\00(\03\00\00*\00\00\00)\03\00\003\03\00\00.\00\00\004\03\00\008\03\00\00\01\00\00\009\03\00\00<\03\00\00.\00\00\00=\03\00\00D\03\00\003\00\00\00E\03\00\00E\03\00\007\00\00\00F\03\00\00F\03\00\003\00\00\00G\03\00\00I\03\00\00.\00\00\00J\03\00\00L\03\00\003\00\00\00M\03\00\00N\03\00\00.\00\00\00P\03\00\00R\03\00\003\00\00\00S\03\00\00V\03\00\00.\00\00\00W\03\00\00W\03\00\003\00\00\00X\03\00\00X\03\00\004\00\00\00Y\03\00\00Z\03\00\00.\00\00\00[\03\00\00[\03\00\003\00\00\00\\\03\00\00\\\03\00\005\00\00\00]\03\00\00^\03\00\006\00\00\00_\03\00\00_\03\00\005\00\00\00`\03\00\00a\03\00\006\00\00\00b\03\00\00b\03\00\005\00\00\00c\03\00\00o\03\00\003\00\00\00\83\04\00\00\87\04\00\003\00\00\00\91\05\00\00\91\05\00\00.\00\00\00\92\05\00\00\95\05\00\003\00\00\00\96\05\00\00\96\05\00\00.\00\00\00\97\05\00\00\99\05\00\003\00\00\00\9a\05\00\00\9a\05\00\00/\00\00\00\9b\05\00\00\9b\05\00\00.\00\00\00\9c\05\00\00\a1\05\00\003\00\00\00\a2\05\00\00\a7\05\00\00.\00\00\00\a8\05\00\00\a9\05\00\003\00\00\00\aa\05\00\00\aa\05\00\00.\00\00\00\ab\05\00\00\ac\05\00\003\00\00\00\ad\05\00\00\ad\05\00\00/\00\00\00\ae\05\00\00\ae\05\00\002\00\00\00\af\05\00\00\af\05\00\003\00\00\00\b0\05\00\00\b0\05\00\00\06\00\00\00\b1\05\00\00\b1\05\00\00\07\00\00\00\b2\05\00\00\b2\05\00\00\08\00\00\00\b3\05\00\00\b3\05\00\00\t\00\00\00\b4\05\00\00\b4\05\00\00\n\00\00\00\b5\05\00\00\b5\05\00\00\0b\00\00\00\b6\05\00\00\b6\05\00\00\0c\00\00\00\b7\05\00\00\b7\05\00\00\0d\00\00\00\b8\05\00\00\b8\05\00\00\0e\00\00\00\b9\05\00\00\ba\05\00\00\0f\00\00\00\bb\05\00\00\bb\05\00\00\10\00\00\00\bc\05\00\00\bc\05\00\00\11\00\00\00\bd\05\00\00\bd\05\00\00\12\00\00\00\bf\05\00\00\bf\05\00\00\13\00\00\00\c1\05\00\00\c1\05\00\00\14\00\00\00\c2\05\00\00\c2\05\00\00\15\00\00\00\c4\05\00\00\c4\05\00\003\00\00\00\c5\05\00\00\c5\05\00\00.\00\00\00\c7\05\00\00\c7\05\00\00\0e\00\00\00\10\06\00\00\17\06\00\003\00\00\00\18\06\00\00\18\06\00\00\1a\00\00\00\19\06\00\00\19\06\00\00\1b\00\00\00\1a\06\00\00\1a\06\00\00\1c\00\00\00K\06\00\00K\06\00\00\17\00\00\00L\06\00\00L\06\00\00\18\00\00\00M\06\00\00M\06\00\00\19\00\00\00N\06\00\00N\06\00\00\1a\00\00\00O\06\00\00O\06\00\00\1b\00\00\00P\06\00\00P\06\00\00\1c\00\00\00Q\06\00\00Q\06\00\00\1d\00\00\00R\06\00\00R\06\00\00\1e\00\00\00S\06\00\00T\06\00\003\00\00\00U\06\00\00V\06\00\00.\00\00\00W\06\00\00[\06\00\003\00\00\00\\\06\00\00\\\06\00\00.\00\00\00]\06\00\00^\06\00\003\00\00\00_\06\00\00_\06\00\00.\00\00\00p\06\00\00p\06\00\00\1f\00\00\00\d6\06\00\00\dc\06\00\003\00\00\00\df\06\00\00\e2\06\00\003\00\00\00\e3\06\00\00\e3\06\00\00.\00\00\00\e4\06\00\00\e4\06\00\003\00\00\00\e7\06\00\00\e8\06\00\003\00\00\00\ea\06\00\00\ea\06\00\00.\00\00\00\eb\06\00\00\ec\06\00\003\00\00\00\ed\06\00\00\ed\06\00\00.\00\00\00\11\07\00\00\11\07\00\00 \00\00\000\07\00\000\07\00\003\00\00\001\07\00\001\07\00\00.\00\00\002\07\00\003\07\00\003\00\00\004\07\00\004\07\00\00.\00\00\005\07\00\006\07\00\003\00\00\007\07\00\009\07\00\00.\00\00\00:\07\00\00:\07\00\003\00\00\00;\07\00\00<\07\00\00.\00\00\00=\07\00\00=\07\00\003\00\00\00>\07\00\00>\07\00\00.\00\00\00?\07\00\00A\07\00\003\00\00\00B\07\00\00B\07\00\00.\00\00\00C\07\00\00C\07\00\003\00\00\00D\07\00\00D\07\00\00.\00\00\00E\07\00\00E\07\00\003\00\00\00F\07\00\00F\07\00\00.\00\00\00G\07\00\00G\07\00\003\00\00\00H\07\00\00H\07\00\00.\00\00\00I\07\00\00J\07\00\003\00\00\00\eb\07\00\00\f1\07\00\003\00\00\00\f2\07\00\00\f2\07\00\00.\00\00\00\f3\07\00\00\f3\07\00\003\00\00\00\fd\07\00\00\fd\07\00\00.\00\00\00\16\08\00\00\19\08\00\003\00\00\00\1b\08\00\00#\08\00\003\00\00\00%\08\00\00\'\08\00\003\00\00\00)\08\00\00-\08\00\003\00\00\00Y\08\00\00[\08\00\00.\00\00\00\97\08\00\00\98\08\00\003\00\00\00\99\08\00\00\9b\08\00\00.\00\00\00\9c\08\00\00\9f\08\00\003\00\00\00\ca\08\00\00\ce\08\00\003\00\00\00\cf\08\00\00\d3\08\00\00.\00\00\00\d4\08\00\00\e1\08\00\003\00\00\00\e3\08\00\00\e3\08\00\00.\00\00\00\e4\08\00\00\e5\08\00\003\00\00\00\e6\08\00\00\e6\08\00\00.\00\00\00\e7\08\00\00\e8\08\00\003\00\00\00\e9\08\00\00\e9\08\00\00.\00\00\00\ea\08\00\00\ec\08\00\003\00\00\00\ed\08\00\00\ef\08\00\00.\00\00\00\f0\08\00\00\f0\08\00\00\17\00\00\00\f1\08\00\00\f1\08\00\00\18\00\00\00\f2\08\00\00\f2\08\00\00\19\00\00\00\f3\08\00\00\f5\08\00\003\00\00\00\f6\08\00\00\f6\08\00\00.\00\00\00\f7\08\00\00\f8\08\00\003\00\00\00\f9\08\00\00\fa\08\00\00.\00\00\00\fb\08\00\00\ff\08\00\003\00\00\00<\t\00\00<\t\00\00\03\00\00\00M\t\00\00M\t\00\00\05\00\00\00Q\t\00\00Q\t\00\003\00\00\00R\t\00\00R\t\00\00.\00\00\00S\t\00\00T\t\00\003\00\00\00\bc\t\00\00\bc\t\00\00\03\00\00\00\cd\t\00\00\cd\t\00\00\05\00\00\00\fe\t\00\00\fe\t\00\003\00\00\00<\n\00\00<\n\00\00\03\00\00\00M\n\00\00M\n\00\00\05\00\00\00\bc\n\00\00\bc\n\00\00\03\00\00\00\cd\n\00\00\cd\n\00\00\05\00\00\00<\0b\00\00<\0b\00\00\03\00\00\00M\0b\00\00M\0b\00\00\05\00\00\00\cd\0b\00\00\cd\0b\00\00\05\00\00\00<\0c\00\00<\0c\00\00\03\00\00\00M\0c\00\00M\0c\00\00\05\00\00\00U\0c\00\00U\0c\00\00!\00\00\00V\0c\00\00V\0c\00\00\"\00\00\00\bc\0c\00\00\bc\0c\00\00\03\00\00\00\cd\0c\00\00\cd\0c\00\00\05\00\00\00;\0d\00\00<\0d\00\00\05\00\00\00M\0d\00\00M\0d\00\00\05\00\00\00\ca\0d\00\00\ca\0d\00\00\05\00\00\008\0e\00\009\0e\00\00#\00\00\00:\0e\00\00:\0e\00\00\05\00\00\00H\0e\00\00K\0e\00\00$\00\00\00\b8\0e\00\00\b9\0e\00\00%\00\00\00\ba\0e\00\00\ba\0e\00\00\05\00\00\00\c8\0e\00\00\cb\0e\00\00&\00\00\00\18\0f\00\00\19\0f\00\00.\00\00\005\0f\00\005\0f\00\00.\00\00\007\0f\00\007\0f\00\00.\00\00\009\0f\00\009\0f\00\00,\00\00\00q\0f\00\00q\0f\00\00\'\00\00\00r\0f\00\00r\0f\00\00(\00\00\00t\0f\00\00t\0f\00\00)\00\00\00z\0f\00\00}\0f\00\00(\00\00\00\80\0f\00\00\80\0f\00\00(\00\00\00\82\0f\00\00\83\0f\00\003\00\00\00\84\0f\00\00\84\0f\00\00\05\00\00\00\86\0f\00\00\87\0f\00\003\00\00\00\c6\0f\00\00\c6\0f\00\00.\00\00\007\10\00\007\10\00\00\03\00\00\009\10\00\00:\10\00\00\05\00\00\00\8d\10\00\00\8d\10\00\00.\00\00\00]\13\00\00_\13\00\003\00\00\00\14\17\00\00\15\17\00\00\05\00\00\004\17\00\004\17\00\00\05\00\00\00\d2\17\00\00\d2\17\00\00\05\00\00\00\dd\17\00\00\dd\17\00\003\00\00\00\a9\18\00\00\a9\18\00\002\00\00\009\19\00\009\19\00\00/\00\00\00:\19\00\00:\19\00\003\00\00\00;\19\00\00;\19\00\00.\00\00\00\17\1a\00\00\17\1a\00\003\00\00\00\18\1a\00\00\18\1a\00\00.\00\00\00`\1a\00\00`\1a\00\00\05\00\00\00u\1a\00\00|\1a\00\003\00\00\00\7f\1a\00\00\7f\1a\00\00.\00\00\00\b0\1a\00\00\b4\1a\00\003\00\00\00\b5\1a\00\00\ba\1a\00\00.\00\00\00\bb\1a\00\00\bc\1a\00\003\00\00\00\bd\1a\00\00\bd\1a\00\00.\00\00\00\bf\1a\00\00\c0\1a\00\00.\00\00\00\c1\1a\00\00\c2\1a\00\003\00\00\00\c3\1a\00\00\c4\1a\00\00.\00\00\00\c5\1a\00\00\c9\1a\00\003\00\00\00\ca\1a\00\00\ca\1a\00\00.\00\00\00\cb\1a\00\00\ce\1a\00\003\00\00\004\1b\00\004\1b\00\00\03\00\00\00D\1b\00\00D\1b\00\00\05\00\00\00k\1b\00\00k\1b\00\003\00\00\00l\1b\00\00l\1b\00\00.\00\00\00m\1b\00\00s\1b\00\003\00\00\00\aa\1b\00\00\ab\1b\00\00\05\00\00\00\e6\1b\00\00\e6\1b\00\00\03\00\00\00\f2\1b\00\00\f3\1b\00\00\05\00\00\007\1c\00\007\1c\00\00\03\00\00\00\d0\1c\00\00\d2\1c\00\003\00\00\00\d4\1c\00\00\d4\1c\00\00\01\00\00\00\d5\1c\00\00\d9\1c\00\00.\00\00\00\da\1c\00\00\db\1c\00\003\00\00\00\dc\1c\00\00\df\1c\00\00.\00\00\00\e0\1c\00\00\e0\1c\00\003\00\00\00\e2\1c\00\00\e8\1c\00\00\01\00\00\00\ed\1c\00\00\ed\1c\00\00.\00\00\00\f4\1c\00\00\f4\1c\00\003\00\00\00\f8\1c\00\00\f9\1c\00\003\00\00\00\c0\1d\00\00\c1\1d\00\003\00\00\00\c2\1d\00\00\c2\1d\00\00.\00\00\00\c3\1d\00\00\c9\1d\00\003\00\00\00\ca\1d\00\00\ca\1d\00\00.\00\00\00\cb\1d\00\00\cc\1d\00\003\00\00\00\cd\1d\00\00\cd\1d\00\006\00\00\00\ce\1d\00\00\ce\1d\00\00+\00\00\00\cf\1d\00\00\cf\1d\00\00.\00\00\00\d0\1d\00\00\d0\1d\00\00*\00\00\00\d1\1d\00\00\f5\1d\00\003\00\00\00\f6\1d\00\00\f6\1d\00\004\00\00\00\f7\1d\00\00\f8\1d\00\002\00\00\00\f9\1d\00\00\f9\1d\00\00.\00\00\00\fa\1d\00\00\fa\1d\00\00-\00\00\00\fb\1d\00\00\fb\1d\00\003\00\00\00\fc\1d\00\00\fc\1d\00\005\00\00\00\fd\1d\00\00\fd\1d\00\00.\00\00\00\fe\1d\00\00\fe\1d\00\003\00\00\00\ff\1d\00\00\ff\1d\00\00.\00\00\00\d0 \00\00\d1 \00\003\00\00\00\d2 \00\00\d3 \00\00\01\00\00\00\d4 \00\00\d7 \00\003\00\00\00\d8 \00\00\da \00\00\01\00\00\00\db \00\00\dc \00\003\00\00\00\e1 \00\00\e1 \00\003\00\00\00\e5 \00\00\e6 \00\00\01\00\00\00\e7 \00\00\e7 \00\003\00\00\00\e8 \00\00\e8 \00\00.\00\00\00\e9 \00\00\e9 \00\003\00\00\00\ea \00\00\eb \00\00\01\00\00\00\ec \00\00\ef \00\00.\00\00\00\f0 \00\00\f0 \00\003\00\00\00\ef,\00\00\f1,\00\003\00\00\00\7f-\00\00\7f-\00\00\05\00\00\00\e0-\00\00\ff-\00\003\00\00\00*0\00\00*0\00\00-\00\00\00+0\00\00+0\00\002\00\00\00,0\00\00,0\00\004\00\00\00-0\00\00-0\00\00/\00\00\00.0\00\00/0\00\000\00\00\00\990\00\00\9a0\00\00\04\00\00\00o\a6\00\00o\a6\00\003\00\00\00t\a6\00\00}\a6\00\003\00\00\00\9e\a6\00\00\9f\a6\00\003\00\00\00\f0\a6\00\00\f1\a6\00\003\00\00\00\06\a8\00\00\06\a8\00\00\05\00\00\00,\a8\00\00,\a8\00\00\05\00\00\00\c4\a8\00\00\c4\a8\00\00\05\00\00\00\e0\a8\00\00\f1\a8\00\003\00\00\00+\a9\00\00-\a9\00\00.\00\00\00S\a9\00\00S\a9\00\00\05\00\00\00\b3\a9\00\00\b3\a9\00\00\03\00\00\00\c0\a9\00\00\c0\a9\00\00\05\00\00\00\b0\aa\00\00\b0\aa\00\003\00\00\00\b2\aa\00\00\b3\aa\00\003\00\00\00\b4\aa\00\00\b4\aa\00\00.\00\00\00\b7\aa\00\00\b8\aa\00\003\00\00\00\be\aa\00\00\bf\aa\00\003\00\00\00\c1\aa\00\00\c1\aa\00\003\00\00\00\f6\aa\00\00\f6\aa\00\00\05\00\00\00\ed\ab\00\00\ed\ab\00\00\05\00\00\00\1e\fb\00\00\1e\fb\00\00\16\00\00\00 \fe\00\00&\fe\00\003\00\00\00\'\fe\00\00-\fe\00\00.\00\00\00.\fe\00\00/\fe\00\003\00\00\00\fd\01\01\00\fd\01\01\00.\00\00\00\e0\02\01\00\e0\02\01\00.\00\00\00v\03\01\00z\03\01\003\00\00\00\0d\n\01\00\0d\n\01\00.\00\00\00\0f\n\01\00\0f\n\01\003\00\00\008\n\01\008\n\01\003\00\00\009\n\01\009\n\01\00\01\00\00\00:\n\01\00:\n\01\00.\00\00\00?\n\01\00?\n\01\00\05\00\00\00\e5\n\01\00\e5\n\01\003\00\00\00\e6\n\01\00\e6\n\01\00.\00\00\00$\0d\01\00\'\0d\01\003\00\00\00i\0d\01\00m\0d\01\003\00\00\00\ab\0e\01\00\ac\0e\01\003\00\00\00\fd\0e\01\00\ff\0e\01\00.\00\00\00F\0f\01\00G\0f\01\00.\00\00\00H\0f\01\00J\0f\01\003\00\00\00K\0f\01\00K\0f\01\00.\00\00\00L\0f\01\00L\0f\01\003\00\00\00M\0f\01\00P\0f\01\00.\00\00\00\82\0f\01\00\82\0f\01\003\00\00\00\83\0f\01\00\83\0f\01\00.\00\00\00\84\0f\01\00\84\0f\01\003\00\00\00\85\0f\01\00\85\0f\01\00.\00\00\00F\10\01\00F\10\01\00\05\00\00\00p\10\01\00p\10\01\00\05\00\00\00\7f\10\01\00\7f\10\01\00\05\00\00\00\b9\10\01\00\b9\10\01\00\05\00\00\00\ba\10\01\00\ba\10\01\00\03\00\00\00\00\11\01\00\02\11\01\003\00\00\003\11\01\004\11\01\00\05\00\00\00s\11\01\00s\11\01\00\03\00\00\00\c0\11\01\00\c0\11\01\00\05\00\00\00\ca\11\01\00\ca\11\01\00\03\00\00\005\12\01\005\12\01\00\05\00\00\006\12\01\006\12\01\00\03\00\00\00\e9\12\01\00\e9\12\01\00\03\00\00\00\ea\12\01\00\ea\12\01\00\05\00\00\00;\13\01\00<\13\01\00\03\00\00\00M\13\01\00M\13\01\00\05\00\00\00f\13\01\00l\13\01\003\00\00\00p\13\01\00t\13\01\003\00\00\00\ce\13\01\00\d0\13\01\00\05\00\00\00B\14\01\00B\14\01\00\05\00\00\00F\14\01\00F\14\01\00\03\00\00\00^\14\01\00^\14\01\003\00\00\00\c2\14\01\00\c2\14\01\00\05\00\00\00\c3\14\01\00\c3\14\01\00\03\00\00\00\bf\15\01\00\bf\15\01\00\05\00\00\00\c0\15\01\00\c0\15\01\00\03\00\00\00?\16\01\00?\16\01\00\05\00\00\00\b6\16\01\00\b6\16\01\00\05\00\00\00\b7\16\01\00\b7\16\01\00\03\00\00\00+\17\01\00+\17\01\00\05\00\00\009\18\01\009\18\01\00\05\00\00\00:\18\01\00:\18\01\00\03\00\00\00=\19\01\00>\19\01\00\05\00\00\00C\19\01\00C\19\01\00\03\00\00\00\e0\19\01\00\e0\19\01\00\05\00\00\004\1a\01\004\1a\01\00\05\00\00\00G\1a\01\00G\1a\01\00\05\00\00\00\99\1a\01\00\99\1a\01\00\05\00\00\00?\1c\01\00?\1c\01\00\05\00\00\00B\1d\01\00B\1d\01\00\03\00\00\00D\1d\01\00E\1d\01\00\05\00\00\00\97\1d\01\00\97\1d\01\00\05\00\00\00A\1f\01\00B\1f\01\00\05\00\00\00/a\01\00/a\01\00\05\00\00\00\f0j\01\00\f4j\01\00\01\00\00\000k\01\006k\01\003\00\00\00\f0o\01\00\f1o\01\00\02\00\00\00\9e\bc\01\00\9e\bc\01\00\01\00\00\00e\d1\01\00f\d1\01\00,\00\00\00g\d1\01\00i\d1\01\00\01\00\00\00m\d1\01\00m\d1\01\001\00\00\00n\d1\01\00r\d1\01\00,\00\00\00{\d1\01\00\82\d1\01\00.\00\00\00\85\d1\01\00\89\d1\01\003\00\00\00\8a\d1\01\00\8b\d1\01\00.\00\00\00\aa\d1\01\00\ad\d1\01\003\00\00\00B\d2\01\00D\d2\01\003\00\00\00\00\e0\01\00\06\e0\01\003\00\00\00\08\e0\01\00\18\e0\01\003\00\00\00\1b\e0\01\00!\e0\01\003\00\00\00#\e0\01\00$\e0\01\003\00\00\00&\e0\01\00*\e0\01\003\00\00\00\8f\e0\01\00\8f\e0\01\003\00\00\000\e1\01\006\e1\01\003\00\00\00\ae\e2\01\00\ae\e2\01\003\00\00\00\ec\e2\01\00\ef\e2\01\003\00\00\00\ec\e4\01\00\ed\e4\01\004\00\00\00\ee\e4\01\00\ee\e4\01\00.\00\00\00\ef\e4\01\00\ef\e4\01\003\00\00\00\ee\e5\01\00\ee\e5\01\003\00\00\00\ef\e5\01\00\ef\e5\01\00.\00\00\00\d0\e8\01\00\d6\e8\01\00.\00\00\00D\e9\01\00I\e9\01\003\00\00\00J\e9\01\00J\e9\01\00\03\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 148360) "\88#\02\00\9b\04\00\00")
+ (data (i32.const 148368) "\0c-\00\00\00\00\00\00<\00\00\008\03\00\00n\"\00\00=\00\00\008\03\00\00`\"\00\00>\00\00\008\03\00\00o\"\00\00A\00\00\00\00\03\00\00\c0\00\00\00A\00\00\00\01\03\00\00\c1\00\00\00A\00\00\00\02\03\00\00\c2\00\00\00A\00\00\00\03\03\00\00\c3\00\00\00A\00\00\00\04\03\00\00\00\01\00\00A\00\00\00\06\03\00\00\02\01\00\00A\00\00\00\07\03\00\00&\02\00\00A\00\00\00\08\03\00\00\c4\00\00\00A\00\00\00\t\03\00\00\a2\1e\00\00A\00\00\00\n\03\00\00\c5\00\00\00A\00\00\00\0c\03\00\00\cd\01\00\00A\00\00\00\0f\03\00\00\00\02\00\00A\00\00\00\11\03\00\00\02\02\00\00A\00\00\00#\03\00\00\a0\1e\00\00A\00\00\00%\03\00\00\00\1e\00\00A\00\00\00(\03\00\00\04\01\00\00B\00\00\00\07\03\00\00\02\1e\00\00B\00\00\00#\03\00\00\04\1e\00\00B\00\00\001\03\00\00\06\1e\00\00C\00\00\00\01\03\00\00\06\01\00\00C\00\00\00\02\03\00\00\08\01\00\00C\00\00\00\07\03\00\00\n\01\00\00C\00\00\00\0c\03\00\00\0c\01\00\00C\00\00\00\'\03\00\00\c7\00\00\00D\00\00\00\07\03\00\00\n\1e\00\00D\00\00\00\0c\03\00\00\0e\01\00\00D\00\00\00#\03\00\00\0c\1e\00\00D\00\00\00\'\03\00\00\10\1e\00\00D\00\00\00-\03\00\00\12\1e\00\00D\00\00\001\03\00\00\0e\1e\00\00E\00\00\00\00\03\00\00\c8\00\00\00E\00\00\00\01\03\00\00\c9\00\00\00E\00\00\00\02\03\00\00\ca\00\00\00E\00\00\00\03\03\00\00\bc\1e\00\00E\00\00\00\04\03\00\00\12\01\00\00E\00\00\00\06\03\00\00\14\01\00\00E\00\00\00\07\03\00\00\16\01\00\00E\00\00\00\08\03\00\00\cb\00\00\00E\00\00\00\t\03\00\00\ba\1e\00\00E\00\00\00\0c\03\00\00\1a\01\00\00E\00\00\00\0f\03\00\00\04\02\00\00E\00\00\00\11\03\00\00\06\02\00\00E\00\00\00#\03\00\00\b8\1e\00\00E\00\00\00\'\03\00\00(\02\00\00E\00\00\00(\03\00\00\18\01\00\00E\00\00\00-\03\00\00\18\1e\00\00E\00\00\000\03\00\00\1a\1e\00\00F\00\00\00\07\03\00\00\1e\1e\00\00G\00\00\00\01\03\00\00\f4\01\00\00G\00\00\00\02\03\00\00\1c\01\00\00G\00\00\00\04\03\00\00 \1e\00\00G\00\00\00\06\03\00\00\1e\01\00\00G\00\00\00\07\03\00\00 \01\00\00G\00\00\00\0c\03\00\00\e6\01\00\00G\00\00\00\'\03\00\00\"\01\00\00H\00\00\00\02\03\00\00$\01\00\00H\00\00\00\07\03\00\00\"\1e\00\00H\00\00\00\08\03\00\00&\1e\00\00H\00\00\00\0c\03\00\00\1e\02\00\00H\00\00\00#\03\00\00$\1e\00\00H\00\00\00\'\03\00\00(\1e\00\00H\00\00\00.\03\00\00*\1e\00\00I\00\00\00\00\03\00\00\cc\00\00\00I\00\00\00\01\03\00\00\cd\00\00\00I\00\00\00\02\03\00\00\ce\00\00\00I\00\00\00\03\03\00\00(\01\00\00I\00\00\00\04\03\00\00*\01\00\00I\00\00\00\06\03\00\00,\01\00\00I\00\00\00\07\03\00\000\01\00\00I\00\00\00\08\03\00\00\cf\00\00\00I\00\00\00\t\03\00\00\c8\1e\00\00I\00\00\00\0c\03\00\00\cf\01\00\00I\00\00\00\0f\03\00\00\08\02\00\00I\00\00\00\11\03\00\00\n\02\00\00I\00\00\00#\03\00\00\ca\1e\00\00I\00\00\00(\03\00\00.\01\00\00I\00\00\000\03\00\00,\1e\00\00J\00\00\00\02\03\00\004\01\00\00K\00\00\00\01\03\00\000\1e\00\00K\00\00\00\0c\03\00\00\e8\01\00\00K\00\00\00#\03\00\002\1e\00\00K\00\00\00\'\03\00\006\01\00\00K\00\00\001\03\00\004\1e\00\00L\00\00\00\01\03\00\009\01\00\00L\00\00\00\0c\03\00\00=\01\00\00L\00\00\00#\03\00\006\1e\00\00L\00\00\00\'\03\00\00;\01\00\00L\00\00\00-\03\00\00<\1e\00\00L\00\00\001\03\00\00:\1e\00\00M\00\00\00\01\03\00\00>\1e\00\00M\00\00\00\07\03\00\00@\1e\00\00M\00\00\00#\03\00\00B\1e\00\00N\00\00\00\00\03\00\00\f8\01\00\00N\00\00\00\01\03\00\00C\01\00\00N\00\00\00\03\03\00\00\d1\00\00\00N\00\00\00\07\03\00\00D\1e\00\00N\00\00\00\0c\03\00\00G\01\00\00N\00\00\00#\03\00\00F\1e\00\00N\00\00\00\'\03\00\00E\01\00\00N\00\00\00-\03\00\00J\1e\00\00N\00\00\001\03\00\00H\1e\00\00O\00\00\00\00\03\00\00\d2\00\00\00O\00\00\00\01\03\00\00\d3\00\00\00O\00\00\00\02\03\00\00\d4\00\00\00O\00\00\00\03\03\00\00\d5\00\00\00O\00\00\00\04\03\00\00L\01\00\00O\00\00\00\06\03\00\00N\01\00\00O\00\00\00\07\03\00\00.\02\00\00O\00\00\00\08\03\00\00\d6\00\00\00O\00\00\00\t\03\00\00\ce\1e\00\00O\00\00\00\0b\03\00\00P\01\00\00O\00\00\00\0c\03\00\00\d1\01\00\00O\00\00\00\0f\03\00\00\0c\02\00\00O\00\00\00\11\03\00\00\0e\02\00\00O\00\00\00\1b\03\00\00\a0\01\00\00O\00\00\00#\03\00\00\cc\1e\00\00O\00\00\00(\03\00\00\ea\01\00\00P\00\00\00\01\03\00\00T\1e\00\00P\00\00\00\07\03\00\00V\1e\00\00R\00\00\00\01\03\00\00T\01\00\00R\00\00\00\07\03\00\00X\1e\00\00R\00\00\00\0c\03\00\00X\01\00\00R\00\00\00\0f\03\00\00\10\02\00\00R\00\00\00\11\03\00\00\12\02\00\00R\00\00\00#\03\00\00Z\1e\00\00R\00\00\00\'\03\00\00V\01\00\00R\00\00\001\03\00\00^\1e\00\00S\00\00\00\01\03\00\00Z\01\00\00S\00\00\00\02\03\00\00\\\01\00\00S\00\00\00\07\03\00\00`\1e\00\00S\00\00\00\0c\03\00\00`\01\00\00S\00\00\00#\03\00\00b\1e\00\00S\00\00\00&\03\00\00\18\02\00\00S\00\00\00\'\03\00\00^\01\00\00T\00\00\00\07\03\00\00j\1e\00\00T\00\00\00\0c\03\00\00d\01\00\00T\00\00\00#\03\00\00l\1e\00\00T\00\00\00&\03\00\00\1a\02\00\00T\00\00\00\'\03\00\00b\01\00\00T\00\00\00-\03\00\00p\1e\00\00T\00\00\001\03\00\00n\1e\00\00U\00\00\00\00\03\00\00\d9\00\00\00U\00\00\00\01\03\00\00\da\00\00\00U\00\00\00\02\03\00\00\db\00\00\00U\00\00\00\03\03\00\00h\01\00\00U\00\00\00\04\03\00\00j\01\00\00U\00\00\00\06\03\00\00l\01\00\00U\00\00\00\08\03\00\00\dc\00\00\00U\00\00\00\t\03\00\00\e6\1e\00\00U\00\00\00\n\03\00\00n\01\00\00U\00\00\00\0b\03\00\00p\01\00\00U\00\00\00\0c\03\00\00\d3\01\00\00U\00\00\00\0f\03\00\00\14\02\00\00U\00\00\00\11\03\00\00\16\02\00\00U\00\00\00\1b\03\00\00\af\01\00\00U\00\00\00#\03\00\00\e4\1e\00\00U\00\00\00$\03\00\00r\1e\00\00U\00\00\00(\03\00\00r\01\00\00U\00\00\00-\03\00\00v\1e\00\00U\00\00\000\03\00\00t\1e\00\00V\00\00\00\03\03\00\00|\1e\00\00V\00\00\00#\03\00\00~\1e\00\00W\00\00\00\00\03\00\00\80\1e\00\00W\00\00\00\01\03\00\00\82\1e\00\00W\00\00\00\02\03\00\00t\01\00\00W\00\00\00\07\03\00\00\86\1e\00\00W\00\00\00\08\03\00\00\84\1e\00\00W\00\00\00#\03\00\00\88\1e\00\00X\00\00\00\07\03\00\00\8a\1e\00\00X\00\00\00\08\03\00\00\8c\1e\00\00Y\00\00\00\00\03\00\00\f2\1e\00\00Y\00\00\00\01\03\00\00\dd\00\00\00Y\00\00\00\02\03\00\00v\01\00\00Y\00\00\00\03\03\00\00\f8\1e\00\00Y\00\00\00\04\03\00\002\02\00\00Y\00\00\00\07\03\00\00\8e\1e\00\00Y\00\00\00\08\03\00\00x\01\00\00Y\00\00\00\t\03\00\00\f6\1e\00\00Y\00\00\00#\03\00\00\f4\1e\00\00Z\00\00\00\01\03\00\00y\01\00\00Z\00\00\00\02\03\00\00\90\1e\00\00Z\00\00\00\07\03\00\00{\01\00\00Z\00\00\00\0c\03\00\00}\01\00\00Z\00\00\00#\03\00\00\92\1e\00\00Z\00\00\001\03\00\00\94\1e\00\00a\00\00\00\00\03\00\00\e0\00\00\00a\00\00\00\01\03\00\00\e1\00\00\00a\00\00\00\02\03\00\00\e2\00\00\00a\00\00\00\03\03\00\00\e3\00\00\00a\00\00\00\04\03\00\00\01\01\00\00a\00\00\00\06\03\00\00\03\01\00\00a\00\00\00\07\03\00\00\'\02\00\00a\00\00\00\08\03\00\00\e4\00\00\00a\00\00\00\t\03\00\00\a3\1e\00\00a\00\00\00\n\03\00\00\e5\00\00\00a\00\00\00\0c\03\00\00\ce\01\00\00a\00\00\00\0f\03\00\00\01\02\00\00a\00\00\00\11\03\00\00\03\02\00\00a\00\00\00#\03\00\00\a1\1e\00\00a\00\00\00%\03\00\00\01\1e\00\00a\00\00\00(\03\00\00\05\01\00\00b\00\00\00\07\03\00\00\03\1e\00\00b\00\00\00#\03\00\00\05\1e\00\00b\00\00\001\03\00\00\07\1e\00\00c\00\00\00\01\03\00\00\07\01\00\00c\00\00\00\02\03\00\00\t\01\00\00c\00\00\00\07\03\00\00\0b\01\00\00c\00\00\00\0c\03\00\00\0d\01\00\00c\00\00\00\'\03\00\00\e7\00\00\00d\00\00\00\07\03\00\00\0b\1e\00\00d\00\00\00\0c\03\00\00\0f\01\00\00d\00\00\00#\03\00\00\0d\1e\00\00d\00\00\00\'\03\00\00\11\1e\00\00d\00\00\00-\03\00\00\13\1e\00\00d\00\00\001\03\00\00\0f\1e\00\00e\00\00\00\00\03\00\00\e8\00\00\00e\00\00\00\01\03\00\00\e9\00\00\00e\00\00\00\02\03\00\00\ea\00\00\00e\00\00\00\03\03\00\00\bd\1e\00\00e\00\00\00\04\03\00\00\13\01\00\00e\00\00\00\06\03\00\00\15\01\00\00e\00\00\00\07\03\00\00\17\01\00\00e\00\00\00\08\03\00\00\eb\00\00\00e\00\00\00\t\03\00\00\bb\1e\00\00e\00\00\00\0c\03\00\00\1b\01\00\00e\00\00\00\0f\03\00\00\05\02\00\00e\00\00\00\11\03\00\00\07\02\00\00e\00\00\00#\03\00\00\b9\1e\00\00e\00\00\00\'\03\00\00)\02\00\00e\00\00\00(\03\00\00\19\01\00\00e\00\00\00-\03\00\00\19\1e\00\00e\00\00\000\03\00\00\1b\1e\00\00f\00\00\00\07\03\00\00\1f\1e\00\00g\00\00\00\01\03\00\00\f5\01\00\00g\00\00\00\02\03\00\00\1d\01\00\00g\00\00\00\04\03\00\00!\1e\00\00g\00\00\00\06\03\00\00\1f\01\00\00g\00\00\00\07\03\00\00!\01\00\00g\00\00\00\0c\03\00\00\e7\01\00\00g\00\00\00\'\03\00\00#\01\00\00h\00\00\00\02\03\00\00%\01\00\00h\00\00\00\07\03\00\00#\1e\00\00h\00\00\00\08\03\00\00\'\1e\00\00h\00\00\00\0c\03\00\00\1f\02\00\00h\00\00\00#\03\00\00%\1e\00\00h\00\00\00\'\03\00\00)\1e\00\00h\00\00\00.\03\00\00+\1e\00\00h\00\00\001\03\00\00\96\1e\00\00i\00\00\00\00\03\00\00\ec\00\00\00i\00\00\00\01\03\00\00\ed\00\00\00i\00\00\00\02\03\00\00\ee\00\00\00i\00\00\00\03\03\00\00)\01\00\00i\00\00\00\04\03\00\00+\01\00\00i\00\00\00\06\03\00\00-\01\00\00i\00\00\00\08\03\00\00\ef\00\00\00i\00\00\00\t\03\00\00\c9\1e\00\00i\00\00\00\0c\03\00\00\d0\01\00\00i\00\00\00\0f\03\00\00\t\02\00\00i\00\00\00\11\03\00\00\0b\02\00\00i\00\00\00#\03\00\00\cb\1e\00\00i\00\00\00(\03\00\00/\01\00\00i\00\00\000\03\00\00-\1e\00\00j\00\00\00\02\03\00\005\01\00\00j\00\00\00\0c\03\00\00\f0\01\00\00k\00\00\00\01\03\00\001\1e\00\00k\00\00\00\0c\03\00\00\e9\01\00\00k\00\00\00#\03\00\003\1e\00\00k\00\00\00\'\03\00\007\01\00\00k\00\00\001\03\00\005\1e\00\00l\00\00\00\01\03\00\00:\01\00\00l\00\00\00\0c\03\00\00>\01\00\00l\00\00\00#\03\00\007\1e\00\00l\00\00\00\'\03\00\00<\01\00\00l\00\00\00-\03\00\00=\1e\00\00l\00\00\001\03\00\00;\1e\00\00m\00\00\00\01\03\00\00?\1e\00\00m\00\00\00\07\03\00\00A\1e\00\00m\00\00\00#\03\00\00C\1e\00\00n\00\00\00\00\03\00\00\f9\01\00\00n\00\00\00\01\03\00\00D\01\00\00n\00\00\00\03\03\00\00\f1\00\00\00n\00\00\00\07\03\00\00E\1e\00\00n\00\00\00\0c\03\00\00H\01\00\00n\00\00\00#\03\00\00G\1e\00\00n\00\00\00\'\03\00\00F\01\00\00n\00\00\00-\03\00\00K\1e\00\00n\00\00\001\03\00\00I\1e\00\00o\00\00\00\00\03\00\00\f2\00\00\00o\00\00\00\01\03\00\00\f3\00\00\00o\00\00\00\02\03\00\00\f4\00\00\00o\00\00\00\03\03\00\00\f5\00\00\00o\00\00\00\04\03\00\00M\01\00\00o\00\00\00\06\03\00\00O\01\00\00o\00\00\00\07\03\00\00/\02\00\00o\00\00\00\08\03\00\00\f6\00\00\00o\00\00\00\t\03\00\00\cf\1e\00\00o\00\00\00\0b\03\00\00Q\01\00\00o\00\00\00\0c\03\00\00\d2\01\00\00o\00\00\00\0f\03\00\00\0d\02\00\00o\00\00\00\11\03\00\00\0f\02\00\00o\00\00\00\1b\03\00\00\a1\01\00\00o\00\00\00#\03\00\00\cd\1e\00\00o\00\00\00(\03\00\00\eb\01\00\00p\00\00\00\01\03\00\00U\1e\00\00p\00\00\00\07\03\00\00W\1e\00\00r\00\00\00\01\03\00\00U\01\00\00r\00\00\00\07\03\00\00Y\1e\00\00r\00\00\00\0c\03\00\00Y\01\00\00r\00\00\00\0f\03\00\00\11\02\00\00r\00\00\00\11\03\00\00\13\02\00\00r\00\00\00#\03\00\00[\1e\00\00r\00\00\00\'\03\00\00W\01\00\00r\00\00\001\03\00\00_\1e\00\00s\00\00\00\01\03\00\00[\01\00\00s\00\00\00\02\03\00\00]\01\00\00s\00\00\00\07\03\00\00a\1e\00\00s\00\00\00\0c\03\00\00a\01\00\00s\00\00\00#\03\00\00c\1e\00\00s\00\00\00&\03\00\00\19\02\00\00s\00\00\00\'\03\00\00_\01\00\00t\00\00\00\07\03\00\00k\1e\00\00t\00\00\00\08\03\00\00\97\1e\00\00t\00\00\00\0c\03\00\00e\01\00\00t\00\00\00#\03\00\00m\1e\00\00t\00\00\00&\03\00\00\1b\02\00\00t\00\00\00\'\03\00\00c\01\00\00t\00\00\00-\03\00\00q\1e\00\00t\00\00\001\03\00\00o\1e\00\00u\00\00\00\00\03\00\00\f9\00\00\00u\00\00\00\01\03\00\00\fa\00\00\00u\00\00\00\02\03\00\00\fb\00\00\00u\00\00\00\03\03\00\00i\01\00\00u\00\00\00\04\03\00\00k\01\00\00u\00\00\00\06\03\00\00m\01\00\00u\00\00\00\08\03\00\00\fc\00\00\00u\00\00\00\t\03\00\00\e7\1e\00\00u\00\00\00\n\03\00\00o\01\00\00u\00\00\00\0b\03\00\00q\01\00\00u\00\00\00\0c\03\00\00\d4\01\00\00u\00\00\00\0f\03\00\00\15\02\00\00u\00\00\00\11\03\00\00\17\02\00\00u\00\00\00\1b\03\00\00\b0\01\00\00u\00\00\00#\03\00\00\e5\1e\00\00u\00\00\00$\03\00\00s\1e\00\00u\00\00\00(\03\00\00s\01\00\00u\00\00\00-\03\00\00w\1e\00\00u\00\00\000\03\00\00u\1e\00\00v\00\00\00\03\03\00\00}\1e\00\00v\00\00\00#\03\00\00\7f\1e\00\00w\00\00\00\00\03\00\00\81\1e\00\00w\00\00\00\01\03\00\00\83\1e\00\00w\00\00\00\02\03\00\00u\01\00\00w\00\00\00\07\03\00\00\87\1e\00\00w\00\00\00\08\03\00\00\85\1e\00\00w\00\00\00\n\03\00\00\98\1e\00\00w\00\00\00#\03\00\00\89\1e\00\00x\00\00\00\07\03\00\00\8b\1e\00\00x\00\00\00\08\03\00\00\8d\1e\00\00y\00\00\00\00\03\00\00\f3\1e\00\00y\00\00\00\01\03\00\00\fd\00\00\00y\00\00\00\02\03\00\00w\01\00\00y\00\00\00\03\03\00\00\f9\1e\00\00y\00\00\00\04\03\00\003\02\00\00y\00\00\00\07\03\00\00\8f\1e\00\00y\00\00\00\08\03\00\00\ff\00\00\00y\00\00\00\t\03\00\00\f7\1e\00\00y\00\00\00\n\03\00\00\99\1e\00\00y\00\00\00#\03\00\00\f5\1e\00\00z\00\00\00\01\03\00\00z\01\00\00z\00\00\00\02\03\00\00\91\1e\00\00z\00\00\00\07\03\00\00|\01\00\00z\00\00\00\0c\03\00\00~\01\00\00z\00\00\00#\03\00\00\93\1e\00\00z\00\00\001\03\00\00\95\1e\00\00\a8\00\00\00\00\03\00\00\ed\1f\00\00\a8\00\00\00\01\03\00\00\85\03\00\00\a8\00\00\00B\03\00\00\c1\1f\00\00\c2\00\00\00\00\03\00\00\a6\1e\00\00\c2\00\00\00\01\03\00\00\a4\1e\00\00\c2\00\00\00\03\03\00\00\aa\1e\00\00\c2\00\00\00\t\03\00\00\a8\1e\00\00\c4\00\00\00\04\03\00\00\de\01\00\00\c5\00\00\00\01\03\00\00\fa\01\00\00\c6\00\00\00\01\03\00\00\fc\01\00\00\c6\00\00\00\04\03\00\00\e2\01\00\00\c7\00\00\00\01\03\00\00\08\1e\00\00\ca\00\00\00\00\03\00\00\c0\1e\00\00\ca\00\00\00\01\03\00\00\be\1e\00\00\ca\00\00\00\03\03\00\00\c4\1e\00\00\ca\00\00\00\t\03\00\00\c2\1e\00\00\cf\00\00\00\01\03\00\00.\1e\00\00\d4\00\00\00\00\03\00\00\d2\1e\00\00\d4\00\00\00\01\03\00\00\d0\1e\00\00\d4\00\00\00\03\03\00\00\d6\1e\00\00\d4\00\00\00\t\03\00\00\d4\1e\00\00\d5\00\00\00\01\03\00\00L\1e\00\00\d5\00\00\00\04\03\00\00,\02\00\00\d5\00\00\00\08\03\00\00N\1e\00\00\d6\00\00\00\04\03\00\00*\02\00\00\d8\00\00\00\01\03\00\00\fe\01\00\00\dc\00\00\00\00\03\00\00\db\01\00\00\dc\00\00\00\01\03\00\00\d7\01\00\00\dc\00\00\00\04\03\00\00\d5\01\00\00\dc\00\00\00\0c\03\00\00\d9\01\00\00\e2\00\00\00\00\03\00\00\a7\1e\00\00\e2\00\00\00\01\03\00\00\a5\1e\00\00\e2\00\00\00\03\03\00\00\ab\1e\00\00\e2\00\00\00\t\03\00\00\a9\1e\00\00\e4\00\00\00\04\03\00\00\df\01\00\00\e5\00\00\00\01\03\00\00\fb\01\00\00\e6\00\00\00\01\03\00\00\fd\01\00\00\e6\00\00\00\04\03\00\00\e3\01\00\00\e7\00\00\00\01\03\00\00\t\1e\00\00\ea\00\00\00\00\03\00\00\c1\1e\00\00\ea\00\00\00\01\03\00\00\bf\1e\00\00\ea\00\00\00\03\03\00\00\c5\1e\00\00\ea\00\00\00\t\03\00\00\c3\1e\00\00\ef\00\00\00\01\03\00\00/\1e\00\00\f4\00\00\00\00\03\00\00\d3\1e\00\00\f4\00\00\00\01\03\00\00\d1\1e\00\00\f4\00\00\00\03\03\00\00\d7\1e\00\00\f4\00\00\00\t\03\00\00\d5\1e\00\00\f5\00\00\00\01\03\00\00M\1e\00\00\f5\00\00\00\04\03\00\00-\02\00\00\f5\00\00\00\08\03\00\00O\1e\00\00\f6\00\00\00\04\03\00\00+\02\00\00\f8\00\00\00\01\03\00\00\ff\01\00\00\fc\00\00\00\00\03\00\00\dc\01\00\00\fc\00\00\00\01\03\00\00\d8\01\00\00\fc\00\00\00\04\03\00\00\d6\01\00\00\fc\00\00\00\0c\03\00\00\da\01\00\00\02\01\00\00\00\03\00\00\b0\1e\00\00\02\01\00\00\01\03\00\00\ae\1e\00\00\02\01\00\00\03\03\00\00\b4\1e\00\00\02\01\00\00\t\03\00\00\b2\1e\00\00\03\01\00\00\00\03\00\00\b1\1e\00\00\03\01\00\00\01\03\00\00\af\1e\00\00\03\01\00\00\03\03\00\00\b5\1e\00\00\03\01\00\00\t\03\00\00\b3\1e\00\00\12\01\00\00\00\03\00\00\14\1e\00\00\12\01\00\00\01\03\00\00\16\1e\00\00\13\01\00\00\00\03\00\00\15\1e\00\00\13\01\00\00\01\03\00\00\17\1e\00\00L\01\00\00\00\03\00\00P\1e\00\00L\01\00\00\01\03\00\00R\1e\00\00M\01\00\00\00\03\00\00Q\1e\00\00M\01\00\00\01\03\00\00S\1e\00\00Z\01\00\00\07\03\00\00d\1e\00\00[\01\00\00\07\03\00\00e\1e\00\00`\01\00\00\07\03\00\00f\1e\00\00a\01\00\00\07\03\00\00g\1e\00\00h\01\00\00\01\03\00\00x\1e\00\00i\01\00\00\01\03\00\00y\1e\00\00j\01\00\00\08\03\00\00z\1e\00\00k\01\00\00\08\03\00\00{\1e\00\00\7f\01\00\00\07\03\00\00\9b\1e\00\00\a0\01\00\00\00\03\00\00\dc\1e\00\00\a0\01\00\00\01\03\00\00\da\1e\00\00\a0\01\00\00\03\03\00\00\e0\1e\00\00\a0\01\00\00\t\03\00\00\de\1e\00\00\a0\01\00\00#\03\00\00\e2\1e\00\00\a1\01\00\00\00\03\00\00\dd\1e\00\00\a1\01\00\00\01\03\00\00\db\1e\00\00\a1\01\00\00\03\03\00\00\e1\1e\00\00\a1\01\00\00\t\03\00\00\df\1e\00\00\a1\01\00\00#\03\00\00\e3\1e\00\00\af\01\00\00\00\03\00\00\ea\1e\00\00\af\01\00\00\01\03\00\00\e8\1e\00\00\af\01\00\00\03\03\00\00\ee\1e\00\00\af\01\00\00\t\03\00\00\ec\1e\00\00\af\01\00\00#\03\00\00\f0\1e\00\00\b0\01\00\00\00\03\00\00\eb\1e\00\00\b0\01\00\00\01\03\00\00\e9\1e\00\00\b0\01\00\00\03\03\00\00\ef\1e\00\00\b0\01\00\00\t\03\00\00\ed\1e\00\00\b0\01\00\00#\03\00\00\f1\1e\00\00\b7\01\00\00\0c\03\00\00\ee\01\00\00\ea\01\00\00\04\03\00\00\ec\01\00\00\eb\01\00\00\04\03\00\00\ed\01\00\00&\02\00\00\04\03\00\00\e0\01\00\00\'\02\00\00\04\03\00\00\e1\01\00\00(\02\00\00\06\03\00\00\1c\1e\00\00)\02\00\00\06\03\00\00\1d\1e\00\00.\02\00\00\04\03\00\000\02\00\00/\02\00\00\04\03\00\001\02\00\00\92\02\00\00\0c\03\00\00\ef\01\00\00\91\03\00\00\00\03\00\00\ba\1f\00\00\91\03\00\00\01\03\00\00\86\03\00\00\91\03\00\00\04\03\00\00\b9\1f\00\00\91\03\00\00\06\03\00\00\b8\1f\00\00\91\03\00\00\13\03\00\00\08\1f\00\00\91\03\00\00\14\03\00\00\t\1f\00\00\91\03\00\00E\03\00\00\bc\1f\00\00\95\03\00\00\00\03\00\00\c8\1f\00\00\95\03\00\00\01\03\00\00\88\03\00\00\95\03\00\00\13\03\00\00\18\1f\00\00\95\03\00\00\14\03\00\00\19\1f\00\00\97\03\00\00\00\03\00\00\ca\1f\00\00\97\03\00\00\01\03\00\00\89\03\00\00\97\03\00\00\13\03\00\00(\1f\00\00\97\03\00\00\14\03\00\00)\1f\00\00\97\03\00\00E\03\00\00\cc\1f\00\00\99\03\00\00\00\03\00\00\da\1f\00\00\99\03\00\00\01\03\00\00\8a\03\00\00\99\03\00\00\04\03\00\00\d9\1f\00\00\99\03\00\00\06\03\00\00\d8\1f\00\00\99\03\00\00\08\03\00\00\aa\03\00\00\99\03\00\00\13\03\00\008\1f\00\00\99\03\00\00\14\03\00\009\1f\00\00\9f\03\00\00\00\03\00\00\f8\1f\00\00\9f\03\00\00\01\03\00\00\8c\03\00\00\9f\03\00\00\13\03\00\00H\1f\00\00\9f\03\00\00\14\03\00\00I\1f\00\00\a1\03\00\00\14\03\00\00\ec\1f\00\00\a5\03\00\00\00\03\00\00\ea\1f\00\00\a5\03\00\00\01\03\00\00\8e\03\00\00\a5\03\00\00\04\03\00\00\e9\1f\00\00\a5\03\00\00\06\03\00\00\e8\1f\00\00\a5\03\00\00\08\03\00\00\ab\03\00\00\a5\03\00\00\14\03\00\00Y\1f\00\00\a9\03\00\00\00\03\00\00\fa\1f\00\00\a9\03\00\00\01\03\00\00\8f\03\00\00\a9\03\00\00\13\03\00\00h\1f\00\00\a9\03\00\00\14\03\00\00i\1f\00\00\a9\03\00\00E\03\00\00\fc\1f\00\00\ac\03\00\00E\03\00\00\b4\1f\00\00\ae\03\00\00E\03\00\00\c4\1f\00\00\b1\03\00\00\00\03\00\00p\1f\00\00\b1\03\00\00\01\03\00\00\ac\03\00\00\b1\03\00\00\04\03\00\00\b1\1f\00\00\b1\03\00\00\06\03\00\00\b0\1f\00\00\b1\03\00\00\13\03\00\00\00\1f\00\00\b1\03\00\00\14\03\00\00\01\1f\00\00\b1\03\00\00B\03\00\00\b6\1f\00\00\b1\03\00\00E\03\00\00\b3\1f\00\00\b5\03\00\00\00\03\00\00r\1f\00\00\b5\03\00\00\01\03\00\00\ad\03\00\00\b5\03\00\00\13\03\00\00\10\1f\00\00\b5\03\00\00\14\03\00\00\11\1f\00\00\b7\03\00\00\00\03\00\00t\1f\00\00\b7\03\00\00\01\03\00\00\ae\03\00\00\b7\03\00\00\13\03\00\00 \1f\00\00\b7\03\00\00\14\03\00\00!\1f\00\00\b7\03\00\00B\03\00\00\c6\1f\00\00\b7\03\00\00E\03\00\00\c3\1f\00\00\b9\03\00\00\00\03\00\00v\1f\00\00\b9\03\00\00\01\03\00\00\af\03\00\00\b9\03\00\00\04\03\00\00\d1\1f\00\00\b9\03\00\00\06\03\00\00\d0\1f\00\00\b9\03\00\00\08\03\00\00\ca\03\00\00\b9\03\00\00\13\03\00\000\1f\00\00\b9\03\00\00\14\03\00\001\1f\00\00\b9\03\00\00B\03\00\00\d6\1f\00\00\bf\03\00\00\00\03\00\00x\1f\00\00\bf\03\00\00\01\03\00\00\cc\03\00\00\bf\03\00\00\13\03\00\00@\1f\00\00\bf\03\00\00\14\03\00\00A\1f\00\00\c1\03\00\00\13\03\00\00\e4\1f\00\00\c1\03\00\00\14\03\00\00\e5\1f\00\00\c5\03\00\00\00\03\00\00z\1f\00\00\c5\03\00\00\01\03\00\00\cd\03\00\00\c5\03\00\00\04\03\00\00\e1\1f\00\00\c5\03\00\00\06\03\00\00\e0\1f\00\00\c5\03\00\00\08\03\00\00\cb\03\00\00\c5\03\00\00\13\03\00\00P\1f\00\00\c5\03\00\00\14\03\00\00Q\1f\00\00\c5\03\00\00B\03\00\00\e6\1f\00\00\c9\03\00\00\00\03\00\00|\1f\00\00\c9\03\00\00\01\03\00\00\ce\03\00\00\c9\03\00\00\13\03\00\00`\1f\00\00\c9\03\00\00\14\03\00\00a\1f\00\00\c9\03\00\00B\03\00\00\f6\1f\00\00\c9\03\00\00E\03\00\00\f3\1f\00\00\ca\03\00\00\00\03\00\00\d2\1f\00\00\ca\03\00\00\01\03\00\00\90\03\00\00\ca\03\00\00B\03\00\00\d7\1f\00\00\cb\03\00\00\00\03\00\00\e2\1f\00\00\cb\03\00\00\01\03\00\00\b0\03\00\00\cb\03\00\00B\03\00\00\e7\1f\00\00\ce\03\00\00E\03\00\00\f4\1f\00\00\d2\03\00\00\01\03\00\00\d3\03\00\00\d2\03\00\00\08\03\00\00\d4\03\00\00\06\04\00\00\08\03\00\00\07\04\00\00\10\04\00\00\06\03\00\00\d0\04\00\00\10\04\00\00\08\03\00\00\d2\04\00\00\13\04\00\00\01\03\00\00\03\04\00\00\15\04\00\00\00\03\00\00\00\04\00\00\15\04\00\00\06\03\00\00\d6\04\00\00\15\04\00\00\08\03\00\00\01\04\00\00\16\04\00\00\06\03\00\00\c1\04\00\00\16\04\00\00\08\03\00\00\dc\04\00\00\17\04\00\00\08\03\00\00\de\04\00\00\18\04\00\00\00\03\00\00\0d\04\00\00\18\04\00\00\04\03\00\00\e2\04\00\00\18\04\00\00\06\03\00\00\19\04\00\00\18\04\00\00\08\03\00\00\e4\04\00\00\1a\04\00\00\01\03\00\00\0c\04\00\00\1e\04\00\00\08\03\00\00\e6\04\00\00#\04\00\00\04\03\00\00\ee\04\00\00#\04\00\00\06\03\00\00\0e\04\00\00#\04\00\00\08\03\00\00\f0\04\00\00#\04\00\00\0b\03\00\00\f2\04\00\00\'\04\00\00\08\03\00\00\f4\04\00\00+\04\00\00\08\03\00\00\f8\04\00\00-\04\00\00\08\03\00\00\ec\04\00\000\04\00\00\06\03\00\00\d1\04\00\000\04\00\00\08\03\00\00\d3\04\00\003\04\00\00\01\03\00\00S\04\00\005\04\00\00\00\03\00\00P\04\00\005\04\00\00\06\03\00\00\d7\04\00\005\04\00\00\08\03\00\00Q\04\00\006\04\00\00\06\03\00\00\c2\04\00\006\04\00\00\08\03\00\00\dd\04\00\007\04\00\00\08\03\00\00\df\04\00\008\04\00\00\00\03\00\00]\04\00\008\04\00\00\04\03\00\00\e3\04\00\008\04\00\00\06\03\00\009\04\00\008\04\00\00\08\03\00\00\e5\04\00\00:\04\00\00\01\03\00\00\\\04\00\00>\04\00\00\08\03\00\00\e7\04\00\00C\04\00\00\04\03\00\00\ef\04\00\00C\04\00\00\06\03\00\00^\04\00\00C\04\00\00\08\03\00\00\f1\04\00\00C\04\00\00\0b\03\00\00\f3\04\00\00G\04\00\00\08\03\00\00\f5\04\00\00K\04\00\00\08\03\00\00\f9\04\00\00M\04\00\00\08\03\00\00\ed\04\00\00V\04\00\00\08\03\00\00W\04\00\00t\04\00\00\0f\03\00\00v\04\00\00u\04\00\00\0f\03\00\00w\04\00\00\d8\04\00\00\08\03\00\00\da\04\00\00\d9\04\00\00\08\03\00\00\db\04\00\00\e8\04\00\00\08\03\00\00\ea\04\00\00\e9\04\00\00\08\03\00\00\eb\04\00\00\'\06\00\00S\06\00\00\"\06\00\00\'\06\00\00T\06\00\00#\06\00\00\'\06\00\00U\06\00\00%\06\00\00H\06\00\00T\06\00\00$\06\00\00J\06\00\00T\06\00\00&\06\00\00\c1\06\00\00T\06\00\00\c2\06\00\00\d2\06\00\00T\06\00\00\d3\06\00\00\d5\06\00\00T\06\00\00\c0\06\00\00(\t\00\00<\t\00\00)\t\00\000\t\00\00<\t\00\001\t\00\003\t\00\00<\t\00\004\t\00\00\c7\t\00\00\be\t\00\00\cb\t\00\00\c7\t\00\00\d7\t\00\00\cc\t\00\00G\0b\00\00>\0b\00\00K\0b\00\00G\0b\00\00V\0b\00\00H\0b\00\00G\0b\00\00W\0b\00\00L\0b\00\00\92\0b\00\00\d7\0b\00\00\94\0b\00\00\c6\0b\00\00\be\0b\00\00\ca\0b\00\00\c6\0b\00\00\d7\0b\00\00\cc\0b\00\00\c7\0b\00\00\be\0b\00\00\cb\0b\00\00F\0c\00\00V\0c\00\00H\0c\00\00\bf\0c\00\00\d5\0c\00\00\c0\0c\00\00\c6\0c\00\00\c2\0c\00\00\ca\0c\00\00\c6\0c\00\00\d5\0c\00\00\c7\0c\00\00\c6\0c\00\00\d6\0c\00\00\c8\0c\00\00\ca\0c\00\00\d5\0c\00\00\cb\0c\00\00F\0d\00\00>\0d\00\00J\0d\00\00F\0d\00\00W\0d\00\00L\0d\00\00G\0d\00\00>\0d\00\00K\0d\00\00\d9\0d\00\00\ca\0d\00\00\da\0d\00\00\d9\0d\00\00\cf\0d\00\00\dc\0d\00\00\d9\0d\00\00\df\0d\00\00\de\0d\00\00\dc\0d\00\00\ca\0d\00\00\dd\0d\00\00%\10\00\00.\10\00\00&\10\00\00\05\1b\00\005\1b\00\00\06\1b\00\00\07\1b\00\005\1b\00\00\08\1b\00\00\t\1b\00\005\1b\00\00\n\1b\00\00\0b\1b\00\005\1b\00\00\0c\1b\00\00\0d\1b\00\005\1b\00\00\0e\1b\00\00\11\1b\00\005\1b\00\00\12\1b\00\00:\1b\00\005\1b\00\00;\1b\00\00<\1b\00\005\1b\00\00=\1b\00\00>\1b\00\005\1b\00\00@\1b\00\00?\1b\00\005\1b\00\00A\1b\00\00B\1b\00\005\1b\00\00C\1b\00\006\1e\00\00\04\03\00\008\1e\00\007\1e\00\00\04\03\00\009\1e\00\00Z\1e\00\00\04\03\00\00\\\1e\00\00[\1e\00\00\04\03\00\00]\1e\00\00b\1e\00\00\07\03\00\00h\1e\00\00c\1e\00\00\07\03\00\00i\1e\00\00\a0\1e\00\00\02\03\00\00\ac\1e\00\00\a0\1e\00\00\06\03\00\00\b6\1e\00\00\a1\1e\00\00\02\03\00\00\ad\1e\00\00\a1\1e\00\00\06\03\00\00\b7\1e\00\00\b8\1e\00\00\02\03\00\00\c6\1e\00\00\b9\1e\00\00\02\03\00\00\c7\1e\00\00\cc\1e\00\00\02\03\00\00\d8\1e\00\00\cd\1e\00\00\02\03\00\00\d9\1e\00\00\00\1f\00\00\00\03\00\00\02\1f\00\00\00\1f\00\00\01\03\00\00\04\1f\00\00\00\1f\00\00B\03\00\00\06\1f\00\00\00\1f\00\00E\03\00\00\80\1f\00\00\01\1f\00\00\00\03\00\00\03\1f\00\00\01\1f\00\00\01\03\00\00\05\1f\00\00\01\1f\00\00B\03\00\00\07\1f\00\00\01\1f\00\00E\03\00\00\81\1f\00\00\02\1f\00\00E\03\00\00\82\1f\00\00\03\1f\00\00E\03\00\00\83\1f\00\00\04\1f\00\00E\03\00\00\84\1f\00\00\05\1f\00\00E\03\00\00\85\1f\00\00\06\1f\00\00E\03\00\00\86\1f\00\00\07\1f\00\00E\03\00\00\87\1f\00\00\08\1f\00\00\00\03\00\00\n\1f\00\00\08\1f\00\00\01\03\00\00\0c\1f\00\00\08\1f\00\00B\03\00\00\0e\1f\00\00\08\1f\00\00E\03\00\00\88\1f\00\00\t\1f\00\00\00\03\00\00\0b\1f\00\00\t\1f\00\00\01\03\00\00\0d\1f\00\00\t\1f\00\00B\03\00\00\0f\1f\00\00\t\1f\00\00E\03\00\00\89\1f\00\00\n\1f\00\00E\03\00\00\8a\1f\00\00\0b\1f\00\00E\03\00\00\8b\1f\00\00\0c\1f\00\00E\03\00\00\8c\1f\00\00\0d\1f\00\00E\03\00\00\8d\1f\00\00\0e\1f\00\00E\03\00\00\8e\1f\00\00\0f\1f\00\00E\03\00\00\8f\1f\00\00\10\1f\00\00\00\03\00\00\12\1f\00\00\10\1f\00\00\01\03\00\00\14\1f\00\00\11\1f\00\00\00\03\00\00\13\1f\00\00\11\1f\00\00\01\03\00\00\15\1f\00\00\18\1f\00\00\00\03\00\00\1a\1f\00\00\18\1f\00\00\01\03\00\00\1c\1f\00\00\19\1f\00\00\00\03\00\00\1b\1f\00\00\19\1f\00\00\01\03\00\00\1d\1f\00\00 \1f\00\00\00\03\00\00\"\1f\00\00 \1f\00\00\01\03\00\00$\1f\00\00 \1f\00\00B\03\00\00&\1f\00\00 \1f\00\00E\03\00\00\90\1f\00\00!\1f\00\00\00\03\00\00#\1f\00\00!\1f\00\00\01\03\00\00%\1f\00\00!\1f\00\00B\03\00\00\'\1f\00\00!\1f\00\00E\03\00\00\91\1f\00\00\"\1f\00\00E\03\00\00\92\1f\00\00#\1f\00\00E\03\00\00\93\1f\00\00$\1f\00\00E\03\00\00\94\1f\00\00%\1f\00\00E\03\00\00\95\1f\00\00&\1f\00\00E\03\00\00\96\1f\00\00\'\1f\00\00E\03\00\00\97\1f\00\00(\1f\00\00\00\03\00\00*\1f\00\00(\1f\00\00\01\03\00\00,\1f\00\00(\1f\00\00B\03\00\00.\1f\00\00(\1f\00\00E\03\00\00\98\1f\00\00)\1f\00\00\00\03\00\00+\1f\00\00)\1f\00\00\01\03\00\00-\1f\00\00)\1f\00\00B\03\00\00/\1f\00\00)\1f\00\00E\03\00\00\99\1f\00\00*\1f\00\00E\03\00\00\9a\1f\00\00+\1f\00\00E\03\00\00\9b\1f\00\00,\1f\00\00E\03\00\00\9c\1f\00\00-\1f\00\00E\03\00\00\9d\1f\00\00.\1f\00\00E\03\00\00\9e\1f\00\00/\1f\00\00E\03\00\00\9f\1f\00\000\1f\00\00\00\03\00\002\1f\00\000\1f\00\00\01\03\00\004\1f\00\000\1f\00\00B\03\00\006\1f\00\001\1f\00\00\00\03\00\003\1f\00\001\1f\00\00\01\03\00\005\1f\00\001\1f\00\00B\03\00\007\1f\00\008\1f\00\00\00\03\00\00:\1f\00\008\1f\00\00\01\03\00\00<\1f\00\008\1f\00\00B\03\00\00>\1f\00\009\1f\00\00\00\03\00\00;\1f\00\009\1f\00\00\01\03\00\00=\1f\00\009\1f\00\00B\03\00\00?\1f\00\00@\1f\00\00\00\03\00\00B\1f\00\00@\1f\00\00\01\03\00\00D\1f\00\00A\1f\00\00\00\03\00\00C\1f\00\00A\1f\00\00\01\03\00\00E\1f\00\00H\1f\00\00\00\03\00\00J\1f\00\00H\1f\00\00\01\03\00\00L\1f\00\00I\1f\00\00\00\03\00\00K\1f\00\00I\1f\00\00\01\03\00\00M\1f\00\00P\1f\00\00\00\03\00\00R\1f\00\00P\1f\00\00\01\03\00\00T\1f\00\00P\1f\00\00B\03\00\00V\1f\00\00Q\1f\00\00\00\03\00\00S\1f\00\00Q\1f\00\00\01\03\00\00U\1f\00\00Q\1f\00\00B\03\00\00W\1f\00\00Y\1f\00\00\00\03\00\00[\1f\00\00Y\1f\00\00\01\03\00\00]\1f\00\00Y\1f\00\00B\03\00\00_\1f\00\00`\1f\00\00\00\03\00\00b\1f\00\00`\1f\00\00\01\03\00\00d\1f\00\00`\1f\00\00B\03\00\00f\1f\00\00`\1f\00\00E\03\00\00\a0\1f\00\00a\1f\00\00\00\03\00\00c\1f\00\00a\1f\00\00\01\03\00\00e\1f\00\00a\1f\00\00B\03\00\00g\1f\00\00a\1f\00\00E\03\00\00\a1\1f\00\00b\1f\00\00E\03\00\00\a2\1f\00\00c\1f\00\00E\03\00\00\a3\1f\00\00d\1f\00\00E\03\00\00\a4\1f\00\00e\1f\00\00E\03\00\00\a5\1f\00\00f\1f\00\00E\03\00\00\a6\1f\00\00g\1f\00\00E\03\00\00\a7\1f\00\00h\1f\00\00\00\03\00\00j\1f\00\00h\1f\00\00\01\03\00\00l\1f\00\00h\1f\00\00B\03\00\00n\1f\00\00h\1f\00\00E\03\00\00\a8\1f\00\00i\1f\00\00\00\03\00\00k\1f\00\00i\1f\00\00\01\03\00\00m\1f\00\00i\1f\00\00B\03\00\00o\1f\00\00i\1f\00\00E\03\00\00\a9\1f\00\00j\1f\00\00E\03\00\00\aa\1f\00\00k\1f\00\00E\03\00\00\ab\1f\00\00l\1f\00\00E\03\00\00\ac\1f\00\00m\1f\00\00E\03\00\00\ad\1f\00\00n\1f\00\00E\03\00\00\ae\1f\00\00o\1f\00\00E\03\00\00\af\1f\00\00p\1f\00\00E\03\00\00\b2\1f\00\00t\1f\00\00E\03\00\00\c2\1f\00\00|\1f\00\00E\03\00\00\f2\1f\00\00\b6\1f\00\00E\03\00\00\b7\1f\00\00\bf\1f\00\00\00\03\00\00\cd\1f\00\00\bf\1f\00\00\01\03\00\00\ce\1f\00\00\bf\1f\00\00B\03\00\00\cf\1f\00\00\c6\1f\00\00E\03\00\00\c7\1f\00\00\f6\1f\00\00E\03\00\00\f7\1f\00\00\fe\1f\00\00\00\03\00\00\dd\1f\00\00\fe\1f\00\00\01\03\00\00\de\1f\00\00\fe\1f\00\00B\03\00\00\df\1f\00\00\90!\00\008\03\00\00\9a!\00\00\92!\00\008\03\00\00\9b!\00\00\94!\00\008\03\00\00\ae!\00\00\d0!\00\008\03\00\00\cd!\00\00\d2!\00\008\03\00\00\cf!\00\00\d4!\00\008\03\00\00\ce!\00\00\03\"\00\008\03\00\00\04\"\00\00\08\"\00\008\03\00\00\t\"\00\00\0b\"\00\008\03\00\00\0c\"\00\00#\"\00\008\03\00\00$\"\00\00%\"\00\008\03\00\00&\"\00\00<\"\00\008\03\00\00A\"\00\00C\"\00\008\03\00\00D\"\00\00E\"\00\008\03\00\00G\"\00\00H\"\00\008\03\00\00I\"\00\00M\"\00\008\03\00\00m\"\00\00a\"\00\008\03\00\00b\"\00\00d\"\00\008\03\00\00p\"\00\00e\"\00\008\03\00\00q\"\00\00r\"\00\008\03\00\00t\"\00\00s\"\00\008\03\00\00u\"\00\00v\"\00\008\03\00\00x\"\00\00w\"\00\008\03\00\00y\"\00\00z\"\00\008\03\00\00\80\"\00\00{\"\00\008\03\00\00\81\"\00\00|\"\00\008\03\00\00\e0\"\00\00}\"\00\008\03\00\00\e1\"\00\00\82\"\00\008\03\00\00\84\"\00\00\83\"\00\008\03\00\00\85\"\00\00\86\"\00\008\03\00\00\88\"\00\00\87\"\00\008\03\00\00\89\"\00\00\91\"\00\008\03\00\00\e2\"\00\00\92\"\00\008\03\00\00\e3\"\00\00\a2\"\00\008\03\00\00\ac\"\00\00\a8\"\00\008\03\00\00\ad\"\00\00\a9\"\00\008\03\00\00\ae\"\00\00\ab\"\00\008\03\00\00\af\"\00\00\b2\"\00\008\03\00\00\ea\"\00\00\b3\"\00\008\03\00\00\eb\"\00\00\b4\"\00\008\03\00\00\ec\"\00\00\b5\"\00\008\03\00\00\ed\"\00\00F0\00\00\990\00\00\940\00\00K0\00\00\990\00\00L0\00\00M0\00\00\990\00\00N0\00\00O0\00\00\990\00\00P0\00\00Q0\00\00\990\00\00R0\00\00S0\00\00\990\00\00T0\00\00U0\00\00\990\00\00V0\00\00W0\00\00\990\00\00X0\00\00Y0\00\00\990\00\00Z0\00\00[0\00\00\990\00\00\\0\00\00]0\00\00\990\00\00^0\00\00_0\00\00\990\00\00`0\00\00a0\00\00\990\00\00b0\00\00d0\00\00\990\00\00e0\00\00f0\00\00\990\00\00g0\00\00h0\00\00\990\00\00i0\00\00o0\00\00\990\00\00p0\00\00o0\00\00\9a0\00\00q0\00\00r0\00\00\990\00\00s0\00\00r0\00\00\9a0\00\00t0\00\00u0\00\00\990\00\00v0\00\00u0\00\00\9a0\00\00w0\00\00x0\00\00\990\00\00y0\00\00x0\00\00\9a0\00\00z0\00\00{0\00\00\990\00\00|0\00\00{0\00\00\9a0\00\00}0\00\00\9d0\00\00\990\00\00\9e0\00\00\a60\00\00\990\00\00\f40\00\00\ab0\00\00\990\00\00\ac0\00\00\ad0\00\00\990\00\00\ae0\00\00\af0\00\00\990\00\00\b00\00\00\b10\00\00\990\00\00\b20\00\00\b30\00\00\990\00\00\b40\00\00\b50\00\00\990\00\00\b60\00\00\b70\00\00\990\00\00\b80\00\00\b90\00\00\990\00\00\ba0\00\00\bb0\00\00\990\00\00\bc0\00\00\bd0\00\00\990\00\00\be0\00\00\bf0\00\00\990\00\00\c00\00\00\c10\00\00\990\00\00\c20\00\00\c40\00\00\990\00\00\c50\00\00\c60\00\00\990\00\00\c70\00\00\c80\00\00\990\00\00\c90\00\00\cf0\00\00\990\00\00\d00\00\00\cf0\00\00\9a0\00\00\d10\00\00\d20\00\00\990\00\00\d30\00\00\d20\00\00\9a0\00\00\d40\00\00\d50\00\00\990\00\00\d60\00\00\d50\00\00\9a0\00\00\d70\00\00\d80\00\00\990\00\00\d90\00\00\d80\00\00\9a0\00\00\da0\00\00\db0\00\00\990\00\00\dc0\00\00\db0\00\00\9a0\00\00\dd0\00\00\ef0\00\00\990\00\00\f70\00\00\f00\00\00\990\00\00\f80\00\00\f10\00\00\990\00\00\f90\00\00\f20\00\00\990\00\00\fa0\00\00\fd0\00\00\990\00\00\fe0\00\00\d2\05\01\00\07\03\00\00\c9\05\01\00\da\05\01\00\07\03\00\00\e4\05\01\00\99\10\01\00\ba\10\01\00\9a\10\01\00\9b\10\01\00\ba\10\01\00\9c\10\01\00\a5\10\01\00\ba\10\01\00\ab\10\01\001\11\01\00\'\11\01\00.\11\01\002\11\01\00\'\11\01\00/\11\01\00G\13\01\00>\13\01\00K\13\01\00G\13\01\00W\13\01\00L\13\01\00\82\13\01\00\c9\13\01\00\83\13\01\00\84\13\01\00\bb\13\01\00\85\13\01\00\8b\13\01\00\c2\13\01\00\8e\13\01\00\90\13\01\00\c9\13\01\00\91\13\01\00\c2\13\01\00\b8\13\01\00\c7\13\01\00\c2\13\01\00\c2\13\01\00\c5\13\01\00\c2\13\01\00\c9\13\01\00\c8\13\01\00\b9\14\01\00\b0\14\01\00\bc\14\01\00\b9\14\01\00\ba\14\01\00\bb\14\01\00\b9\14\01\00\bd\14\01\00\be\14\01\00\b8\15\01\00\af\15\01\00\ba\15\01\00\b9\15\01\00\af\15\01\00\bb\15\01\005\19\01\000\19\01\008\19\01\00\1ea\01\00\1ea\01\00!a\01\00\1ea\01\00\1fa\01\00#a\01\00\1ea\01\00 a\01\00%a\01\00\1ea\01\00)a\01\00\"a\01\00!a\01\00\1fa\01\00&a\01\00!a\01\00 a\01\00(a\01\00\"a\01\00\1fa\01\00\'a\01\00)a\01\00\1fa\01\00$a\01\00cm\01\00gm\01\00im\01\00gm\01\00gm\01\00hm\01\00im\01\00gm\01\00jm\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 164752) "\90C\02\00C\0b\00\00")
+ (data (i32.const 164760) "\03\00\00\00N\00F\00D\00")
+ (data (i32.const 164776) "\04\00\00\00N\00F\00K\00C\00")
+ (data (i32.const 164792) "\04\00\00\00N\00F\00K\00D\00")
+ (data (i32.const 164808) "<\00\00\00T\00h\00e\00 \00n\00o\00r\00m\00a\00l\00i\00z\00a\00t\00i\00o\00n\00 \00f\00o\00r\00m\00 \00s\00h\00o\00u\00l\00d\00 \00b\00e\00 \00o\00n\00e\00 \00o\00f\00 \00N\00F\00C\00,\00 \00N\00F\00D\00,\00 \00N\00F\00K\00C\00,\00 \00N\00F\00K\00D\00")
+ (data (i32.const 164936) "\10\00\00\00~\00l\00i\00b\00/\00b\00u\00i\00l\00t\00i\00n\00s\00.\00t\00s\00")
+ (data (i32.const 164976) "\02\00\00\00e\00\01\03")
+ (data (i32.const 164984) "\01\00\00\00\e9\00")
+ (data (i32.const 164992) "\02\00\00\00\9b\1e#\03")
+ (data (i32.const 165000) "\03\00\00\00\7f\01#\03\07\03")
+ (data (i32.const 165016) "\01\00\00\00i\1e")
+ (data (i32.const 165024) "\03\00\00\00s\00#\03\07\03")
+ (data (i32.const 165040) "\03\00\00\00a\00\07\03#\03")
+ (data (i32.const 165056) "\03\00\00\00a\00#\03\07\03")
+ (data (i32.const 165072) "\02\00\00\00\a1\1e\07\03")
+ (data (i32.const 165080) "\01\00\00\00\01\fb")
+ (data (i32.const 165088) "\02\00\00\00f\00i\00")
+ (data (i32.const 165096) "\01\00\00\00+!")
+ (data (i32.const 165104) "\01\00\00\00\c5\00")
+ (data (i32.const 165112) "\02\00\00\004\d8^\dd")
+ (data (i32.const 165120) "\04\00\00\004\d8W\dd4\d8e\dd")
+ (data (i32.const 165136) "\01\00\00\00\01\ac")
+ (data (i32.const 165144) "\03\00\00\00\00\11a\11\a8\11")
+ (data (i32.const 165160) "\02\00\00\00\00\11a\11")
+ (data (i32.const 165168) "\01\00\00\00\00\ac")
+ (data (i32.const 165176) "\03\00\00\00n\00f\00c\00")
+ (data (i32.const 165192) "\01\00\00\00a\00")
+ (data (i32.const 165200) "\06\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\02\00\00\00\00\00\00\00\00\00\00\00\03\00\00\00\00\00\00\00\04\00\00\00\04\00\00\00\00\00\00\00\00\00\00\00\05\00\00\00\03\00\00\00\04\00\00\00\06\00\00\00\00\00\00\00\00\00\00\00")
+ (export "RTTI_BASE" (global $RTTI_BASE))
+ (export "memory" (memory $0))
+ (start $start)
+ (func $~lib/array/Array<i32>#__get (; 1 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if (result i32)
+   (i32.lt_u
+    (get_local $1)
+    (i32.shr_u
+     (i32.load
+      (get_local $2)
+     )
+     (i32.const 2)
+    )
+   )
+   (block $~lib/internal/arraybuffer/loadUnsafe<i32,i32>|inlined.0 (result i32)
+    (i32.load offset=8
+     (i32.add
+      (get_local $2)
+      (i32.shl
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+    )
+   )
+   (unreachable)
+  )
+ )
+ (func $~lib/internal/string/findRow (; 2 ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (set_local $4
+   (i32.const 0)
+  )
+  (set_local $5
+   (i32.sub
+    (i32.div_s
+     (block $~lib/array/Array<i32>#get:length|inlined.0 (result i32)
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (get_local $1)
+    )
+    (i32.const 1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.le_s
+      (get_local $4)
+      (get_local $5)
+     )
+     (block
+      (block
+       (set_local $6
+        (i32.shr_u
+         (i32.add
+          (get_local $4)
+          (get_local $5)
+         )
+         (i32.const 1)
+        )
+       )
+       (set_local $7
+        (i32.mul
+         (get_local $6)
+         (get_local $1)
+        )
+       )
+       (if
+        (i32.lt_s
+         (get_local $3)
+         (call $~lib/array/Array<i32>#__get
+          (get_local $0)
+          (get_local $7)
+         )
+        )
+        (set_local $5
+         (i32.sub
+          (get_local $6)
+          (i32.const 1)
+         )
+        )
+        (if
+         (i32.gt_s
+          (get_local $3)
+          (call $~lib/array/Array<i32>#__get
+           (get_local $0)
+           (i32.add
+            (get_local $7)
+            (i32.and
+             (get_local $2)
+             (i32.const 1)
+            )
+           )
+          )
+         )
+         (set_local $4
+          (i32.add
+           (get_local $6)
+           (i32.const 1)
+          )
+         )
+         (return
+          (get_local $7)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.const -1)
+ )
+ (func $~lib/internal/string/isCased (; 3 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.ge_s
+   (call $~lib/internal/string/findRow
+    (block $~lib/internal/unicode/CASED_RANGES|inlined.0 (result i32)
+     (i32.const 12400)
+    )
+    (i32.const 2)
+    (i32.const 1)
+    (get_local $0)
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/internal/string/isCaseIgnorable (; 4 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.ge_s
+   (call $~lib/internal/string/findRow
+    (block $~lib/internal/unicode/CASE_IGNORABLE_RANGES|inlined.0 (result i32)
+     (i32.const 16504)
+    )
+    (i32.const 2)
+    (i32.const 1)
+    (get_local $0)
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/internal/string/isFinalSigma (; 5 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $3
+   (i32.const 0)
+  )
+  (block $break|0
+   (set_local $4
+    (get_local $1)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.gt_s
+       (get_local $4)
+       (i32.const 0)
+      )
+     )
+    )
+    (block
+     (set_local $5
+      (block $~lib/internal/string/loadCodePointBefore|inlined.0 (result i32)
+       (set_local $5
+        (i32.load16_u offset=4
+         (i32.add
+          (get_local $0)
+          (i32.shl
+           (i32.sub
+            (get_local $4)
+            (i32.const 1)
+           )
+           (i32.const 1)
+          )
+         )
+        )
+       )
+       (if
+        (if (result i32)
+         (tee_local $6
+          (i32.eq
+           (i32.and
+            (get_local $5)
+            (i32.const 64512)
+           )
+           (i32.const 56320)
+          )
+         )
+         (i32.gt_s
+          (get_local $4)
+          (i32.const 1)
+         )
+         (get_local $6)
+        )
+        (block
+         (set_local $6
+          (i32.load16_u offset=4
+           (i32.add
+            (get_local $0)
+            (i32.shl
+             (i32.sub
+              (get_local $4)
+              (i32.const 2)
+             )
+             (i32.const 1)
+            )
+           )
+          )
+         )
+         (if
+          (i32.eq
+           (i32.and
+            (get_local $6)
+            (i32.const 64512)
+           )
+           (i32.const 55296)
+          )
+          (br $~lib/internal/string/loadCodePointBefore|inlined.0
+           (i32.add
+            (i32.add
+             (i32.const 65536)
+             (i32.shl
+              (i32.and
+               (get_local $6)
+               (i32.const 1023)
+              )
+              (i32.const 10)
+             )
+            )
+            (i32.and
+             (get_local $5)
+             (i32.const 1023)
+            )
+           )
+          )
+         )
+        )
+       )
+       (get_local $5)
+      )
+     )
+     (set_local $4
+      (i32.sub
+       (get_local $4)
+       (i32.add
+        (i32.const 1)
+        (i32.ge_s
+         (get_local $5)
+         (i32.const 65536)
+        )
+       )
+      )
+     )
+     (if
+      (call $~lib/internal/string/isCased
+       (get_local $5)
+      )
+      (block
+       (set_local $3
+        (i32.const 1)
+       )
+       (br $break|0)
+      )
+     )
+     (if
+      (i32.eqz
+       (call $~lib/internal/string/isCaseIgnorable
+        (get_local $5)
+       )
+      )
+      (br $break|0)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $3)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (block $break|1
+   (set_local $4
+    (i32.add
+     (get_local $1)
+     (i32.const 1)
+    )
+   )
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.eqz
+      (i32.lt_s
+       (get_local $4)
+       (get_local $2)
+      )
+     )
+    )
+    (block
+     (set_local $5
+      (block $~lib/internal/string/loadCodePoint|inlined.1 (result i32)
+       (set_local $5
+        (i32.load16_u offset=4
+         (i32.add
+          (get_local $0)
+          (i32.shl
+           (get_local $4)
+           (i32.const 1)
+          )
+         )
+        )
+       )
+       (if
+        (if (result i32)
+         (tee_local $6
+          (i32.eq
+           (i32.and
+            (get_local $5)
+            (i32.const 64512)
+           )
+           (i32.const 55296)
+          )
+         )
+         (i32.lt_s
+          (i32.add
+           (get_local $4)
+           (i32.const 1)
+          )
+          (get_local $2)
+         )
+         (get_local $6)
+        )
+        (block
+         (set_local $6
+          (i32.load16_u offset=6
+           (i32.add
+            (get_local $0)
+            (i32.shl
+             (get_local $4)
+             (i32.const 1)
+            )
+           )
+          )
+         )
+         (if
+          (i32.eq
+           (i32.and
+            (get_local $6)
+            (i32.const 64512)
+           )
+           (i32.const 56320)
+          )
+          (br $~lib/internal/string/loadCodePoint|inlined.1
+           (i32.add
+            (i32.add
+             (i32.const 65536)
+             (i32.shl
+              (i32.and
+               (get_local $5)
+               (i32.const 1023)
+              )
+              (i32.const 10)
+             )
+            )
+            (i32.and
+             (get_local $6)
+             (i32.const 1023)
+            )
+           )
+          )
+         )
+        )
+       )
+       (get_local $5)
+      )
+     )
+     (set_local $4
+      (i32.add
+       (get_local $4)
+       (i32.add
+        (i32.const 1)
+        (i32.ge_s
+         (get_local $5)
+         (i32.const 65536)
+        )
+       )
+      )
+     )
+     (if
+      (call $~lib/internal/string/isCased
+       (get_local $5)
+      )
+      (return
+       (i32.const 0)
+      )
+     )
+     (if
+      (i32.eqz
+       (call $~lib/internal/string/isCaseIgnorable
+        (get_local $5)
+       )
+      )
+      (br $break|1)
+     )
+    )
+    (br $repeat|1)
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/allocator/arena/__memory_allocate (; 6 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (get_global $~lib/internal/allocator/MAX_SIZE_32)
+   )
+   (unreachable)
+  )
+  (set_local $1
+   (get_global $~lib/allocator/arena/offset)
+  )
+  (set_local $4
+   (i32.and
+    (i32.add
+     (i32.add
+      (get_local $1)
+      (select
+       (tee_local $2
+        (get_local $0)
+       )
+       (tee_local $3
+        (i32.const 1)
+       )
+       (i32.gt_u
+        (get_local $2)
+        (get_local $3)
+       )
+      )
+     )
+     (get_global $~lib/internal/allocator/AL_MASK)
+    )
+    (i32.xor
+     (get_global $~lib/internal/allocator/AL_MASK)
+     (i32.const -1)
+    )
+   )
+  )
+  (set_local $5
+   (current_memory)
+  )
+  (if
+   (i32.gt_u
+    (get_local $4)
+    (i32.shl
+     (get_local $5)
+     (i32.const 16)
+    )
+   )
+   (block
+    (set_local $2
+     (i32.shr_u
+      (i32.and
+       (i32.add
+        (i32.sub
+         (get_local $4)
+         (get_local $1)
+        )
+        (i32.const 65535)
+       )
+       (i32.xor
+        (i32.const 65535)
+        (i32.const -1)
+       )
+      )
+      (i32.const 16)
+     )
+    )
+    (set_local $3
+     (select
+      (tee_local $3
+       (get_local $5)
+      )
+      (tee_local $6
+       (get_local $2)
+      )
+      (i32.gt_s
+       (get_local $3)
+       (get_local $6)
+      )
+     )
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $3)
+      )
+      (i32.const 0)
+     )
+     (if
+      (i32.lt_s
+       (grow_memory
+        (get_local $2)
+       )
+       (i32.const 0)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_local $4)
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/string/allocateUnsafe (; 7 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $1
+      (i32.gt_s
+       (get_local $0)
+       (i32.const 0)
+      )
+     )
+     (i32.le_s
+      (get_local $0)
+      (get_global $~lib/internal/string/MAX_LENGTH)
+     )
+     (get_local $1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 16512)
+     (i32.const 28)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $2
+   (block $~lib/memory/memory.allocate|inlined.0 (result i32)
+    (set_local $1
+     (i32.add
+      (get_global $~lib/internal/string/HEADER_SIZE)
+      (i32.shl
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (br $~lib/memory/memory.allocate|inlined.0
+     (call $~lib/allocator/arena/__memory_allocate
+      (get_local $1)
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $2)
+   (get_local $0)
+  )
+  (get_local $2)
+ )
+ (func $~lib/internal/string/toCaseUnsafe (; 8 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (local $13 i32)
+  (local $14 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (if (result i32)
+    (i32.and
+     (get_local $1)
+     (i32.const 1)
+    )
+    (block $~lib/internal/unicode/UPPER_CASE_RUNS|inlined.0 (result i32)
+     (i32.const 4144)
+    )
+    (block $~lib/internal/unicode/LOWER_CASE_RUNS|inlined.0 (result i32)
+     (i32.const 8248)
+    )
+   )
+  )
+  (set_local $4
+   (if (result i32)
+    (i32.and
+     (get_local $1)
+     (i32.const 1)
+    )
+    (block $~lib/internal/unicode/UPPER_CASE_SPECIALS|inlined.0 (result i32)
+     (i32.const 10304)
+    )
+    (block $~lib/internal/unicode/LOWER_CASE_SPECIALS|inlined.0 (result i32)
+     (i32.const 10344)
+    )
+   )
+  )
+  (set_local $5
+   (i32.const 0)
+  )
+  (set_local $6
+   (i32.const 0)
+  )
+  (block $break|0
+   (set_local $7
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $7)
+       (i32.const 2)
+      )
+     )
+    )
+    (block
+     (set_local $8
+      (i32.const 0)
+     )
+     (block $break|1
+      (set_local $9
+       (i32.const 0)
+      )
+      (loop $repeat|1
+       (block $continue|1
+        (br_if $break|1
+         (i32.eqz
+          (i32.lt_s
+           (get_local $9)
+           (get_local $2)
+          )
+         )
+        )
+        (block
+         (set_local $10
+          (block $~lib/internal/string/loadCodePoint|inlined.0 (result i32)
+           (set_local $10
+            (i32.load16_u offset=4
+             (i32.add
+              (get_local $0)
+              (i32.shl
+               (get_local $9)
+               (i32.const 1)
+              )
+             )
+            )
+           )
+           (if
+            (if (result i32)
+             (tee_local $11
+              (i32.eq
+               (i32.and
+                (get_local $10)
+                (i32.const 64512)
+               )
+               (i32.const 55296)
+              )
+             )
+             (i32.lt_s
+              (i32.add
+               (get_local $9)
+               (i32.const 1)
+              )
+              (get_local $2)
+             )
+             (get_local $11)
+            )
+            (block
+             (set_local $11
+              (i32.load16_u offset=6
+               (i32.add
+                (get_local $0)
+                (i32.shl
+                 (get_local $9)
+                 (i32.const 1)
+                )
+               )
+              )
+             )
+             (if
+              (i32.eq
+               (i32.and
+                (get_local $11)
+                (i32.const 64512)
+               )
+               (i32.const 56320)
+              )
+              (br $~lib/internal/string/loadCodePoint|inlined.0
+               (i32.add
+                (i32.add
+                 (i32.const 65536)
+                 (i32.shl
+                  (i32.and
+                   (get_local $10)
+                   (i32.const 1023)
+                  )
+                  (i32.const 10)
+                 )
+                )
+                (i32.and
+                 (get_local $11)
+                 (i32.const 1023)
+                )
+               )
+              )
+             )
+            )
+           )
+           (get_local $10)
+          )
+         )
+         (set_local $11
+          (get_local $10)
+         )
+         (if
+          (i32.lt_s
+           (get_local $10)
+           (i32.const 128)
+          )
+          (if
+           (if (result i32)
+            (i32.and
+             (get_local $1)
+             (i32.const 1)
+            )
+            (if (result i32)
+             (tee_local $12
+              (i32.ge_s
+               (get_local $10)
+               (i32.const 97)
+              )
+             )
+             (i32.le_s
+              (get_local $10)
+              (i32.const 122)
+             )
+             (get_local $12)
+            )
+            (if (result i32)
+             (tee_local $12
+              (i32.ge_s
+               (get_local $10)
+               (i32.const 65)
+              )
+             )
+             (i32.le_s
+              (get_local $10)
+              (i32.const 90)
+             )
+             (get_local $12)
+            )
+           )
+           (set_local $11
+            (i32.xor
+             (get_local $11)
+             (i32.const 32)
+            )
+           )
+          )
+          (block
+           (set_local $12
+            (call $~lib/internal/string/findRow
+             (get_local $4)
+             (i32.const 4)
+             (i32.const 0)
+             (get_local $10)
+            )
+           )
+           (if
+            (i32.ge_s
+             (get_local $12)
+             (i32.const 0)
+            )
+            (block
+             (block $break|2
+              (set_local $13
+               (i32.const 1)
+              )
+              (loop $repeat|2
+               (br_if $break|2
+                (i32.eqz
+                 (i32.lt_s
+                  (get_local $13)
+                  (i32.const 4)
+                 )
+                )
+               )
+               (block
+                (set_local $14
+                 (call $~lib/array/Array<i32>#__get
+                  (get_local $4)
+                  (i32.add
+                   (get_local $12)
+                   (get_local $13)
+                  )
+                 )
+                )
+                (if
+                 (i32.eqz
+                  (get_local $14)
+                 )
+                 (br $break|2)
+                )
+                (if
+                 (get_local $6)
+                 (i32.store16 offset=4
+                  (i32.add
+                   (get_local $6)
+                   (i32.shl
+                    (get_local $8)
+                    (i32.const 1)
+                   )
+                  )
+                  (get_local $14)
+                 )
+                )
+                (set_local $8
+                 (i32.add
+                  (get_local $8)
+                  (i32.const 1)
+                 )
+                )
+               )
+               (set_local $13
+                (i32.add
+                 (get_local $13)
+                 (i32.const 1)
+                )
+               )
+               (br $repeat|2)
+              )
+             )
+             (set_local $9
+              (i32.add
+               (get_local $9)
+               (i32.add
+                (i32.const 1)
+                (i32.ge_s
+                 (get_local $10)
+                 (i32.const 65536)
+                )
+               )
+              )
+             )
+             (set_local $5
+              (i32.const 1)
+             )
+             (br $continue|1)
+            )
+           )
+           (if
+            (if (result i32)
+             (tee_local $13
+              (if (result i32)
+               (tee_local $13
+                (i32.eqz
+                 (i32.and
+                  (get_local $1)
+                  (i32.const 1)
+                 )
+                )
+               )
+               (i32.eq
+                (get_local $10)
+                (i32.const 931)
+               )
+               (get_local $13)
+              )
+             )
+             (call $~lib/internal/string/isFinalSigma
+              (get_local $0)
+              (get_local $9)
+              (get_local $2)
+             )
+             (get_local $13)
+            )
+            (set_local $11
+             (i32.const 962)
+            )
+            (block
+             (set_local $12
+              (call $~lib/internal/string/findRow
+               (get_local $3)
+               (i32.const 4)
+               (i32.const 1)
+               (get_local $10)
+              )
+             )
+             (if
+              (if (result i32)
+               (tee_local $13
+                (i32.ge_s
+                 (get_local $12)
+                 (i32.const 0)
+                )
+               )
+               (i32.eqz
+                (i32.rem_s
+                 (i32.sub
+                  (get_local $10)
+                  (call $~lib/array/Array<i32>#__get
+                   (get_local $3)
+                   (get_local $12)
+                  )
+                 )
+                 (call $~lib/array/Array<i32>#__get
+                  (get_local $3)
+                  (i32.add
+                   (get_local $12)
+                   (i32.const 2)
+                  )
+                 )
+                )
+               )
+               (get_local $13)
+              )
+              (set_local $11
+               (i32.add
+                (get_local $11)
+                (call $~lib/array/Array<i32>#__get
+                 (get_local $3)
+                 (i32.add
+                  (get_local $12)
+                  (i32.const 3)
+                 )
+                )
+               )
+              )
+             )
+            )
+           )
+          )
+         )
+         (if
+          (i32.lt_s
+           (get_local $11)
+           (i32.const 65536)
+          )
+          (block
+           (if
+            (get_local $6)
+            (i32.store16 offset=4
+             (i32.add
+              (get_local $6)
+              (i32.shl
+               (get_local $8)
+               (i32.const 1)
+              )
+             )
+             (get_local $11)
+            )
+           )
+           (set_local $8
+            (i32.add
+             (get_local $8)
+             (i32.const 1)
+            )
+           )
+          )
+          (block
+           (if
+            (get_local $6)
+            (block
+             (set_local $11
+              (i32.sub
+               (get_local $11)
+               (i32.const 65536)
+              )
+             )
+             (i32.store16 offset=4
+              (i32.add
+               (get_local $6)
+               (i32.shl
+                (get_local $8)
+                (i32.const 1)
+               )
+              )
+              (i32.add
+               (i32.shr_u
+                (get_local $11)
+                (i32.const 10)
+               )
+               (i32.const 55296)
+              )
+             )
+             (i32.store16 offset=6
+              (i32.add
+               (get_local $6)
+               (i32.shl
+                (get_local $8)
+                (i32.const 1)
+               )
+              )
+              (i32.add
+               (i32.and
+                (get_local $11)
+                (i32.const 1023)
+               )
+               (i32.const 56320)
+              )
+             )
+            )
+           )
+           (set_local $8
+            (i32.add
+             (get_local $8)
+             (i32.const 2)
+            )
+           )
+          )
+         )
+         (if
+          (i32.ne
+           (get_local $11)
+           (get_local $10)
+          )
+          (set_local $5
+           (i32.const 1)
+          )
+         )
+         (set_local $9
+          (i32.add
+           (get_local $9)
+           (i32.add
+            (i32.const 1)
+            (i32.ge_s
+             (get_local $10)
+             (i32.const 65536)
+            )
+           )
+          )
+         )
+        )
+       )
+       (br $repeat|1)
+      )
+     )
+     (if
+      (i32.eqz
+       (get_local $6)
+      )
+      (block
+       (if
+        (i32.eqz
+         (get_local $5)
+        )
+        (return
+         (get_local $0)
+        )
+       )
+       (set_local $6
+        (call $~lib/internal/string/allocateUnsafe
+         (get_local $8)
+        )
+       )
+      )
+     )
+    )
+    (set_local $7
+     (i32.add
+      (get_local $7)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $6)
+ )
+ (func $~lib/string/String#toLowerCase (; 9 ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eqz
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 16)
+     (i32.const 565)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/internal/string/toCaseUnsafe
+   (get_local $0)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/internal/string/compareUnsafe (; 10 ;) (type $iiiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (result i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (set_local $5
+   (i32.const 0)
+  )
+  (set_local $6
+   (i32.add
+    (get_local $0)
+    (i32.shl
+     (get_local $1)
+     (i32.const 1)
+    )
+   )
+  )
+  (set_local $7
+   (i32.add
+    (get_local $2)
+    (i32.shl
+     (get_local $3)
+     (i32.const 1)
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (if (result i32)
+      (get_local $4)
+      (i32.eqz
+       (tee_local $5
+        (i32.sub
+         (i32.load16_u offset=4
+          (get_local $6)
+         )
+         (i32.load16_u offset=4
+          (get_local $7)
+         )
+        )
+       )
+      )
+      (get_local $4)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.sub
+         (get_local $4)
+         (i32.const 1)
+        )
+       )
+       (set_local $6
+        (i32.add
+         (get_local $6)
+         (i32.const 2)
+        )
+       )
+       (set_local $7
+        (i32.add
+         (get_local $7)
+         (i32.const 2)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (get_local $5)
+ )
+ (func $~lib/string/String.__eq (; 11 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $2
+     (i32.eq
+      (get_local $0)
+      (i32.const 0)
+     )
+    )
+    (get_local $2)
+    (i32.eq
+     (get_local $1)
+     (i32.const 0)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.ne
+    (get_local $3)
+    (i32.load
+     (get_local $1)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.eqz
+   (call $~lib/internal/string/compareUnsafe
+    (get_local $0)
+    (i32.const 0)
+    (get_local $1)
+    (i32.const 0)
+    (get_local $3)
+   )
+  )
+ )
+ (func $~lib/string/String#toUpperCase (; 12 ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eqz
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 16)
+     (i32.const 570)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/internal/string/toCaseUnsafe
+   (get_local $0)
+   (i32.const 1)
+  )
+ )
+ (func $~lib/memory/memory.allocate (; 13 ;) (type $ii) (param $0 i32) (result i32)
+  (return
+   (call $~lib/allocator/arena/__memory_allocate
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/error/Error#constructor (; 14 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (i32.store
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $2
+        (block (result i32)
+         (i32.store
+          (i32.sub
+           (tee_local $3
+            (i32.add
+             (call $~lib/memory/memory.allocate
+              (i32.const 16)
+             )
+             (i32.const 8)
+            )
+           )
+           (i32.const 4)
+          )
+          (i32.const 3)
+         )
+         (get_local $3)
+        )
+       )
+       (i32.store
+        (get_local $2)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $2)
+        (i32.const 8)
+       )
+       (get_local $2)
+      )
+     )
+    )
+   )
+   (get_local $1)
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/arraybuffer/computeSize (; 15 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.shl
+   (i32.const 1)
+   (i32.sub
+    (i32.const 32)
+    (i32.clz
+     (i32.sub
+      (i32.add
+       (get_local $0)
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+      (i32.const 1)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/arraybuffer/allocateUnsafe (; 16 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (i32.le_u
+     (get_local $0)
+     (get_global $~lib/internal/arraybuffer/MAX_BLENGTH)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 17184)
+     (i32.const 23)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $1
+   (block $~lib/memory/memory.allocate|inlined.1 (result i32)
+    (set_local $2
+     (call $~lib/internal/arraybuffer/computeSize
+      (get_local $0)
+     )
+    )
+    (br $~lib/memory/memory.allocate|inlined.1
+     (call $~lib/allocator/arena/__memory_allocate
+      (get_local $2)
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/memory/memset (; 17 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i64)
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return)
+  )
+  (i32.store8
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 1)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 2)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 1)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 2)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 2)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 3)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 6)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 3)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 4)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (set_local $3
+   (i32.and
+    (i32.sub
+     (i32.const 0)
+     (get_local $0)
+    )
+    (i32.const 3)
+   )
+  )
+  (set_local $0
+   (i32.add
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.sub
+    (get_local $2)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.and
+    (get_local $2)
+    (i32.const -4)
+   )
+  )
+  (set_local $4
+   (i32.mul
+    (i32.div_u
+     (i32.const -1)
+     (i32.const 255)
+    )
+    (i32.and
+     (get_local $1)
+     (i32.const 255)
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 4)
+   )
+   (get_local $4)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 4)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 8)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 12)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 8)
+   )
+   (get_local $4)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 24)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 12)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 16)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 20)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 24)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 28)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 24)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 20)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 16)
+   )
+   (get_local $4)
+  )
+  (set_local $3
+   (i32.add
+    (i32.const 24)
+    (i32.and
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (set_local $0
+   (i32.add
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.sub
+    (get_local $2)
+    (get_local $3)
+   )
+  )
+  (set_local $5
+   (i64.or
+    (i64.extend_u/i32
+     (get_local $4)
+    )
+    (i64.shl
+     (i64.extend_u/i32
+      (get_local $4)
+     )
+     (i64.const 32)
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.ge_u
+      (get_local $2)
+      (i32.const 32)
+     )
+     (block
+      (block
+       (i64.store
+        (get_local $0)
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 16)
+        )
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 24)
+        )
+        (get_local $5)
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 32)
+        )
+       )
+       (set_local $0
+        (i32.add
+         (get_local $0)
+         (i32.const 32)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/array/Array<i32>#constructor (; 18 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (i32.gt_u
+    (get_local $1)
+    (i32.const 268435454)
+   )
+   (block
+    (set_global $~exception
+     (call $~lib/error/Error#constructor
+      (i32.const 0)
+      (i32.const 17104)
+     )
+    )
+    (return
+     (i32.const 0)
+    )
+   )
+  )
+  (set_local $2
+   (i32.shl
+    (get_local $1)
+    (i32.const 2)
+   )
+  )
+  (set_local $3
+   (call $~lib/internal/arraybuffer/allocateUnsafe
+    (get_local $2)
+   )
+  )
+  (i32.store
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $4
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.store
+        (get_local $4)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $4)
+        (i32.const 0)
+       )
+       (get_local $4)
+      )
+     )
+    )
+   )
+   (get_local $3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (block $~lib/memory/memory.fill|inlined.0
+   (set_local $4
+    (i32.add
+     (get_local $3)
+     (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+    )
+   )
+   (set_local $5
+    (i32.const 0)
+   )
+   (call $~lib/internal/memory/memset
+    (get_local $4)
+    (get_local $5)
+    (get_local $2)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/memory/memcpy (; 19 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (block $break|0
+   (loop $continue|0
+    (if
+     (if (result i32)
+      (get_local $2)
+      (i32.and
+       (get_local $1)
+       (i32.const 3)
+      )
+      (get_local $2)
+     )
+     (block
+      (block
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (i32.and
+     (get_local $0)
+     (i32.const 3)
+    )
+    (i32.const 0)
+   )
+   (block
+    (block $break|1
+     (loop $continue|1
+      (if
+       (i32.ge_u
+        (get_local $2)
+        (i32.const 16)
+       )
+       (block
+        (block
+         (i32.store
+          (get_local $0)
+          (i32.load
+           (get_local $1)
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 4)
+          )
+          (i32.load
+           (i32.add
+            (get_local $1)
+            (i32.const 4)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 8)
+          )
+          (i32.load
+           (i32.add
+            (get_local $1)
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 12)
+          )
+          (i32.load
+           (i32.add
+            (get_local $1)
+            (i32.const 12)
+           )
+          )
+         )
+         (set_local $1
+          (i32.add
+           (get_local $1)
+           (i32.const 16)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (get_local $0)
+           (i32.const 16)
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 16)
+          )
+         )
+        )
+        (br $continue|1)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 8)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+       (i32.load
+        (i32.add
+         (get_local $1)
+         (i32.const 4)
+        )
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 8)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 8)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 4)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 4)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 2)
+     )
+     (block
+      (i32.store16
+       (get_local $0)
+       (i32.load16_u
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 2)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 1)
+     )
+     (i32.store8
+      (block (result i32)
+       (set_local $5
+        (get_local $0)
+       )
+       (set_local $0
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+      (i32.load8_u
+       (block (result i32)
+        (set_local $5
+         (get_local $1)
+        )
+        (set_local $1
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+      )
+     )
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $2)
+    (i32.const 32)
+   )
+   (block $break|2
+    (block $case2|2
+     (block $case1|2
+      (block $case0|2
+       (set_local $5
+        (i32.and
+         (get_local $0)
+         (i32.const 3)
+        )
+       )
+       (br_if $case0|2
+        (i32.eq
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (br_if $case1|2
+        (i32.eq
+         (get_local $5)
+         (i32.const 2)
+        )
+       )
+       (br_if $case2|2
+        (i32.eq
+         (get_local $5)
+         (i32.const 3)
+        )
+       )
+       (br $break|2)
+      )
+      (block
+       (set_local $3
+        (i32.load
+         (get_local $1)
+        )
+       )
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 3)
+        )
+       )
+       (block $break|3
+        (loop $continue|3
+         (if
+          (i32.ge_u
+           (get_local $2)
+           (i32.const 17)
+          )
+          (block
+           (block
+            (set_local $4
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 1)
+              )
+             )
+            )
+            (i32.store
+             (get_local $0)
+             (i32.or
+              (i32.shr_u
+               (get_local $3)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $4)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 5)
+              )
+             )
+            )
+            (i32.store
+             (i32.add
+              (get_local $0)
+              (i32.const 4)
+             )
+             (i32.or
+              (i32.shr_u
+               (get_local $4)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $3)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $4
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 9)
+              )
+             )
+            )
+            (i32.store
+             (i32.add
+              (get_local $0)
+              (i32.const 8)
+             )
+             (i32.or
+              (i32.shr_u
+               (get_local $3)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $4)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 13)
+              )
+             )
+            )
+            (i32.store
+             (i32.add
+              (get_local $0)
+              (i32.const 12)
+             )
+             (i32.or
+              (i32.shr_u
+               (get_local $4)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $3)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $1
+             (i32.add
+              (get_local $1)
+              (i32.const 16)
+             )
+            )
+            (set_local $0
+             (i32.add
+              (get_local $0)
+              (i32.const 16)
+             )
+            )
+            (set_local $2
+             (i32.sub
+              (get_local $2)
+              (i32.const 16)
+             )
+            )
+           )
+           (br $continue|3)
+          )
+         )
+        )
+       )
+       (br $break|2)
+      )
+     )
+     (block
+      (set_local $3
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store8
+       (block (result i32)
+        (set_local $5
+         (get_local $0)
+        )
+        (set_local $0
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+       (i32.load8_u
+        (block (result i32)
+         (set_local $5
+          (get_local $1)
+         )
+         (set_local $1
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+       )
+      )
+      (i32.store8
+       (block (result i32)
+        (set_local $5
+         (get_local $0)
+        )
+        (set_local $0
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+       (i32.load8_u
+        (block (result i32)
+         (set_local $5
+          (get_local $1)
+         )
+         (set_local $1
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+       )
+      )
+      (set_local $2
+       (i32.sub
+        (get_local $2)
+        (i32.const 2)
+       )
+      )
+      (block $break|4
+       (loop $continue|4
+        (if
+         (i32.ge_u
+          (get_local $2)
+          (i32.const 18)
+         )
+         (block
+          (block
+           (set_local $4
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 2)
+             )
+            )
+           )
+           (i32.store
+            (get_local $0)
+            (i32.or
+             (i32.shr_u
+              (get_local $3)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $4)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 6)
+             )
+            )
+           )
+           (i32.store
+            (i32.add
+             (get_local $0)
+             (i32.const 4)
+            )
+            (i32.or
+             (i32.shr_u
+              (get_local $4)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $3)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $4
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 10)
+             )
+            )
+           )
+           (i32.store
+            (i32.add
+             (get_local $0)
+             (i32.const 8)
+            )
+            (i32.or
+             (i32.shr_u
+              (get_local $3)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $4)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 14)
+             )
+            )
+           )
+           (i32.store
+            (i32.add
+             (get_local $0)
+             (i32.const 12)
+            )
+            (i32.or
+             (i32.shr_u
+              (get_local $4)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $3)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $1
+            (i32.add
+             (get_local $1)
+             (i32.const 16)
+            )
+           )
+           (set_local $0
+            (i32.add
+             (get_local $0)
+             (i32.const 16)
+            )
+           )
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 16)
+            )
+           )
+          )
+          (br $continue|4)
+         )
+        )
+       )
+      )
+      (br $break|2)
+     )
+    )
+    (block
+     (set_local $3
+      (i32.load
+       (get_local $1)
+      )
+     )
+     (i32.store8
+      (block (result i32)
+       (set_local $5
+        (get_local $0)
+       )
+       (set_local $0
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+      (i32.load8_u
+       (block (result i32)
+        (set_local $5
+         (get_local $1)
+        )
+        (set_local $1
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+      )
+     )
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (block $break|5
+      (loop $continue|5
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 19)
+        )
+        (block
+         (block
+          (set_local $4
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 3)
+            )
+           )
+          )
+          (i32.store
+           (get_local $0)
+           (i32.or
+            (i32.shr_u
+             (get_local $3)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $4)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 7)
+            )
+           )
+          )
+          (i32.store
+           (i32.add
+            (get_local $0)
+            (i32.const 4)
+           )
+           (i32.or
+            (i32.shr_u
+             (get_local $4)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $3)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $4
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 11)
+            )
+           )
+          )
+          (i32.store
+           (i32.add
+            (get_local $0)
+            (i32.const 8)
+           )
+           (i32.or
+            (i32.shr_u
+             (get_local $3)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $4)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 15)
+            )
+           )
+          )
+          (i32.store
+           (i32.add
+            (get_local $0)
+            (i32.const 12)
+           )
+           (i32.or
+            (i32.shr_u
+             (get_local $4)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $3)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $1
+           (i32.add
+            (get_local $1)
+            (i32.const 16)
+           )
+          )
+          (set_local $0
+           (i32.add
+            (get_local $0)
+            (i32.const 16)
+           )
+          )
+          (set_local $2
+           (i32.sub
+            (get_local $2)
+            (i32.const 16)
+           )
+          )
+         )
+         (br $continue|5)
+        )
+       )
+      )
+     )
+     (br $break|2)
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 16)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 8)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 4)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 2)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 1)
+   )
+   (i32.store8
+    (block (result i32)
+     (set_local $5
+      (get_local $0)
+     )
+     (set_local $0
+      (i32.add
+       (get_local $5)
+       (i32.const 1)
+      )
+     )
+     (get_local $5)
+    )
+    (i32.load8_u
+     (block (result i32)
+      (set_local $5
+       (get_local $1)
+      )
+      (set_local $1
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/memory/memmove (; 20 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return)
+  )
+  (if
+   (if (result i32)
+    (tee_local $3
+     (i32.le_u
+      (i32.add
+       (get_local $1)
+       (get_local $2)
+      )
+      (get_local $0)
+     )
+    )
+    (get_local $3)
+    (i32.le_u
+     (i32.add
+      (get_local $0)
+      (get_local $2)
+     )
+     (get_local $1)
+    )
+   )
+   (block
+    (call $~lib/internal/memory/memcpy
+     (get_local $0)
+     (get_local $1)
+     (get_local $2)
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.lt_u
+    (get_local $0)
+    (get_local $1)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (block $break|0
+       (loop $continue|0
+        (if
+         (i32.and
+          (get_local $0)
+          (i32.const 7)
+         )
+         (block
+          (block
+           (if
+            (i32.eqz
+             (get_local $2)
+            )
+            (return)
+           )
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 1)
+            )
+           )
+           (i32.store8
+            (block (result i32)
+             (set_local $3
+              (get_local $0)
+             )
+             (set_local $0
+              (i32.add
+               (get_local $3)
+               (i32.const 1)
+              )
+             )
+             (get_local $3)
+            )
+            (i32.load8_u
+             (block (result i32)
+              (set_local $3
+               (get_local $1)
+              )
+              (set_local $1
+               (i32.add
+                (get_local $3)
+                (i32.const 1)
+               )
+              )
+              (get_local $3)
+             )
+            )
+           )
+          )
+          (br $continue|0)
+         )
+        )
+       )
+      )
+      (block $break|1
+       (loop $continue|1
+        (if
+         (i32.ge_u
+          (get_local $2)
+          (i32.const 8)
+         )
+         (block
+          (block
+           (i64.store
+            (get_local $0)
+            (i64.load
+             (get_local $1)
+            )
+           )
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 8)
+            )
+           )
+           (set_local $0
+            (i32.add
+             (get_local $0)
+             (i32.const 8)
+            )
+           )
+           (set_local $1
+            (i32.add
+             (get_local $1)
+             (i32.const 8)
+            )
+           )
+          )
+          (br $continue|1)
+         )
+        )
+       )
+      )
+     )
+    )
+    (block $break|2
+     (loop $continue|2
+      (if
+       (get_local $2)
+       (block
+        (block
+         (i32.store8
+          (block (result i32)
+           (set_local $3
+            (get_local $0)
+           )
+           (set_local $0
+            (i32.add
+             (get_local $3)
+             (i32.const 1)
+            )
+           )
+           (get_local $3)
+          )
+          (i32.load8_u
+           (block (result i32)
+            (set_local $3
+             (get_local $1)
+            )
+            (set_local $1
+             (i32.add
+              (get_local $3)
+              (i32.const 1)
+             )
+            )
+            (get_local $3)
+           )
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+        )
+        (br $continue|2)
+       )
+      )
+     )
+    )
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (block $break|3
+       (loop $continue|3
+        (if
+         (i32.and
+          (i32.add
+           (get_local $0)
+           (get_local $2)
+          )
+          (i32.const 7)
+         )
+         (block
+          (block
+           (if
+            (i32.eqz
+             (get_local $2)
+            )
+            (return)
+           )
+           (i32.store8
+            (i32.add
+             (get_local $0)
+             (tee_local $2
+              (i32.sub
+               (get_local $2)
+               (i32.const 1)
+              )
+             )
+            )
+            (i32.load8_u
+             (i32.add
+              (get_local $1)
+              (get_local $2)
+             )
+            )
+           )
+          )
+          (br $continue|3)
+         )
+        )
+       )
+      )
+      (block $break|4
+       (loop $continue|4
+        (if
+         (i32.ge_u
+          (get_local $2)
+          (i32.const 8)
+         )
+         (block
+          (block
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 8)
+            )
+           )
+           (i64.store
+            (i32.add
+             (get_local $0)
+             (get_local $2)
+            )
+            (i64.load
+             (i32.add
+              (get_local $1)
+              (get_local $2)
+             )
+            )
+           )
+          )
+          (br $continue|4)
+         )
+        )
+       )
+      )
+     )
+    )
+    (block $break|5
+     (loop $continue|5
+      (if
+       (get_local $2)
+       (block
+        (i32.store8
+         (i32.add
+          (get_local $0)
+          (tee_local $2
+           (i32.sub
+            (get_local $2)
+            (i32.const 1)
+           )
+          )
+         )
+         (i32.load8_u
+          (i32.add
+           (get_local $1)
+           (get_local $2)
+          )
+         )
+        )
+        (br $continue|5)
+       )
+      )
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/arraybuffer/reallocateUnsafe (; 21 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.gt_s
+    (get_local $1)
+    (get_local $2)
+   )
+   (block
+    (if
+     (i32.eqz
+      (i32.le_s
+       (get_local $1)
+       (get_global $~lib/internal/arraybuffer/MAX_BLENGTH)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 17184)
+       (i32.const 37)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.le_s
+      (get_local $1)
+      (i32.sub
+       (call $~lib/internal/arraybuffer/computeSize
+        (get_local $2)
+       )
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (get_local $1)
+      )
+      (block $~lib/memory/memory.fill|inlined.1
+       (set_local $3
+        (i32.add
+         (i32.add
+          (get_local $0)
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (get_local $2)
+        )
+       )
+       (set_local $4
+        (i32.const 0)
+       )
+       (set_local $5
+        (i32.sub
+         (get_local $1)
+         (get_local $2)
+        )
+       )
+       (call $~lib/internal/memory/memset
+        (get_local $3)
+        (get_local $4)
+        (get_local $5)
+       )
+      )
+     )
+     (block
+      (set_local $5
+       (call $~lib/internal/arraybuffer/allocateUnsafe
+        (get_local $1)
+       )
+      )
+      (block $~lib/memory/memory.copy|inlined.0
+       (set_local $4
+        (i32.add
+         (get_local $5)
+         (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+        )
+       )
+       (set_local $3
+        (i32.add
+         (get_local $0)
+         (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+        )
+       )
+       (call $~lib/internal/memory/memmove
+        (get_local $4)
+        (get_local $3)
+        (get_local $2)
+       )
+      )
+      (block $~lib/memory/memory.fill|inlined.2
+       (set_local $3
+        (i32.add
+         (i32.add
+          (get_local $5)
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (get_local $2)
+        )
+       )
+       (set_local $4
+        (i32.const 0)
+       )
+       (set_local $6
+        (i32.sub
+         (get_local $1)
+         (get_local $2)
+        )
+       )
+       (call $~lib/internal/memory/memset
+        (get_local $3)
+        (get_local $4)
+        (get_local $6)
+       )
+      )
+      (return
+       (get_local $5)
+      )
+     )
+    )
+   )
+   (if
+    (i32.lt_s
+     (get_local $1)
+     (get_local $2)
+    )
+    (block
+     (if
+      (i32.eqz
+       (i32.ge_s
+        (get_local $1)
+        (i32.const 0)
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 17184)
+        (i32.const 61)
+        (i32.const 4)
+       )
+       (unreachable)
+      )
+     )
+     (i32.store
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/array/Array<i32>#push (; 22 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.shr_u
+    (i32.load
+     (get_local $3)
+    )
+    (i32.const 2)
+   )
+  )
+  (set_local $5
+   (i32.add
+    (get_local $2)
+    (i32.const 1)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $2)
+    (get_local $4)
+   )
+   (block
+    (if
+     (i32.ge_u
+      (get_local $2)
+      (i32.const 268435454)
+     )
+     (block
+      (set_global $~exception
+       (call $~lib/error/Error#constructor
+        (i32.const 0)
+        (i32.const 17104)
+       )
+      )
+      (return
+       (i32.const 0)
+      )
+     )
+    )
+    (set_local $3
+     (call $~lib/internal/arraybuffer/reallocateUnsafe
+      (get_local $3)
+      (i32.shl
+       (get_local $5)
+       (i32.const 2)
+      )
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (get_local $3)
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $5)
+  )
+  (block $~lib/internal/arraybuffer/storeUnsafe<i32,i32>|inlined.0
+   (i32.store offset=8
+    (i32.add
+     (get_local $3)
+     (i32.shl
+      (get_local $2)
+      (i32.const 2)
+     )
+    )
+    (get_local $1)
+   )
+  )
+  (get_local $5)
+ )
+ (func $~lib/array/Array<u16>#__get (; 23 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if (result i32)
+   (i32.lt_u
+    (get_local $1)
+    (i32.shr_u
+     (i32.load
+      (get_local $2)
+     )
+     (i32.const 1)
+    )
+   )
+   (block $~lib/internal/arraybuffer/loadUnsafe<u16,u16>|inlined.0 (result i32)
+    (i32.load16_u offset=8
+     (i32.add
+      (get_local $2)
+      (i32.shl
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+    )
+   )
+   (unreachable)
+  )
+ )
+ (func $~lib/internal/string/decompose (; 24 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (set_local $3
+   (i32.sub
+    (get_local $0)
+    (get_global $~lib/internal/string/HANGUL_SBASE)
+   )
+  )
+  (if
+   (i32.lt_u
+    (get_local $3)
+    (get_global $~lib/internal/string/HANGUL_SCOUNT)
+   )
+   (block
+    (drop
+     (block (result i32)
+      (set_local $4
+       (call $~lib/array/Array<i32>#push
+        (get_local $2)
+        (i32.add
+         (get_global $~lib/internal/string/HANGUL_LBASE)
+         (i32.div_s
+          (get_local $3)
+          (get_global $~lib/internal/string/HANGUL_NCOUNT)
+         )
+        )
+       )
+      )
+      (if
+       (get_global $~exception)
+       (return)
+      )
+      (get_local $4)
+     )
+    )
+    (drop
+     (block (result i32)
+      (set_local $4
+       (call $~lib/array/Array<i32>#push
+        (get_local $2)
+        (i32.add
+         (get_global $~lib/internal/string/HANGUL_VBASE)
+         (i32.div_s
+          (i32.rem_s
+           (get_local $3)
+           (get_global $~lib/internal/string/HANGUL_NCOUNT)
+          )
+          (get_global $~lib/internal/string/HANGUL_TCOUNT)
+         )
+        )
+       )
+      )
+      (if
+       (get_global $~exception)
+       (return)
+      )
+      (get_local $4)
+     )
+    )
+    (set_local $4
+     (i32.rem_s
+      (get_local $3)
+      (get_global $~lib/internal/string/HANGUL_TCOUNT)
+     )
+    )
+    (if
+     (get_local $4)
+     (drop
+      (block (result i32)
+       (set_local $5
+        (call $~lib/array/Array<i32>#push
+         (get_local $2)
+         (i32.add
+          (get_global $~lib/internal/string/HANGUL_TBASE)
+          (get_local $4)
+         )
+        )
+       )
+       (if
+        (get_global $~exception)
+        (return)
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.ge_s
+    (get_local $0)
+    (i32.const 160)
+   )
+   (block
+    (set_local $4
+     (block $~lib/internal/unicode/CANONICAL_DECOMPOSITIONS|inlined.0 (result i32)
+      (i32.const 50016)
+     )
+    )
+    (set_local $5
+     (block $~lib/internal/unicode/CANONICAL_DATA|inlined.0 (result i32)
+      (i32.const 58216)
+     )
+    )
+    (set_local $6
+     (i32.const -1)
+    )
+    (if
+     (i32.and
+      (get_local $1)
+      (i32.const 1)
+     )
+     (block
+      (set_local $6
+       (call $~lib/internal/string/findRow
+        (block $~lib/internal/unicode/COMPATIBILITY_DECOMPOSITIONS|inlined.0 (result i32)
+         (i32.const 90992)
+        )
+        (i32.const 2)
+        (i32.const 0)
+        (get_local $0)
+       )
+      )
+      (if
+       (i32.ge_s
+        (get_local $6)
+        (i32.const 0)
+       )
+       (block
+        (set_local $4
+         (block $~lib/internal/unicode/COMPATIBILITY_DECOMPOSITIONS|inlined.1 (result i32)
+          (i32.const 123768)
+         )
+        )
+        (set_local $5
+         (block $~lib/internal/unicode/COMPATIBILITY_DATA|inlined.0 (result i32)
+          (i32.const 140160)
+         )
+        )
+       )
+      )
+     )
+    )
+    (if
+     (i32.lt_s
+      (get_local $6)
+      (i32.const 0)
+     )
+     (set_local $6
+      (call $~lib/internal/string/findRow
+       (get_local $4)
+       (i32.const 2)
+       (i32.const 0)
+       (get_local $0)
+      )
+     )
+    )
+    (if
+     (i32.ge_s
+      (get_local $6)
+      (i32.const 0)
+     )
+     (block
+      (set_local $7
+       (i32.shr_u
+        (call $~lib/array/Array<i32>#__get
+         (get_local $4)
+         (i32.add
+          (get_local $6)
+          (i32.const 1)
+         )
+        )
+        (i32.const 5)
+       )
+      )
+      (set_local $8
+       (i32.add
+        (get_local $7)
+        (i32.and
+         (call $~lib/array/Array<i32>#__get
+          (get_local $4)
+          (i32.add
+           (get_local $6)
+           (i32.const 1)
+          )
+         )
+         (i32.const 31)
+        )
+       )
+      )
+      (block $break|0
+       (loop $continue|0
+        (if
+         (i32.lt_s
+          (get_local $7)
+          (get_local $8)
+         )
+         (block
+          (block
+           (set_local $9
+            (i32.and
+             (call $~lib/array/Array<u16>#__get
+              (get_local $5)
+              (block (result i32)
+               (set_local $9
+                (get_local $7)
+               )
+               (set_local $7
+                (i32.add
+                 (get_local $9)
+                 (i32.const 1)
+                )
+               )
+               (get_local $9)
+              )
+             )
+             (i32.const 65535)
+            )
+           )
+           (if
+            (i32.eq
+             (i32.and
+              (get_local $9)
+              (i32.const 64512)
+             )
+             (i32.const 55296)
+            )
+            (set_local $9
+             (i32.add
+              (i32.add
+               (i32.const 65536)
+               (i32.shl
+                (i32.and
+                 (get_local $9)
+                 (i32.const 1023)
+                )
+                (i32.const 10)
+               )
+              )
+              (i32.and
+               (i32.and
+                (call $~lib/array/Array<u16>#__get
+                 (get_local $5)
+                 (block (result i32)
+                  (set_local $10
+                   (get_local $7)
+                  )
+                  (set_local $7
+                   (i32.add
+                    (get_local $10)
+                    (i32.const 1)
+                   )
+                  )
+                  (get_local $10)
+                 )
+                )
+                (i32.const 65535)
+               )
+               (i32.const 1023)
+              )
+             )
+            )
+           )
+           (drop
+            (block (result i32)
+             (set_local $10
+              (call $~lib/array/Array<i32>#push
+               (get_local $2)
+               (get_local $9)
+              )
+             )
+             (if
+              (get_global $~exception)
+              (return)
+             )
+             (get_local $10)
+            )
+           )
+          )
+          (br $continue|0)
+         )
+        )
+       )
+      )
+      (return)
+     )
+    )
+   )
+  )
+  (drop
+   (block (result i32)
+    (set_local $6
+     (call $~lib/array/Array<i32>#push
+      (get_local $2)
+      (get_local $0)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return)
+    )
+    (get_local $6)
+   )
+  )
+ )
+ (func $~lib/internal/string/getCombiningRank (; 25 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (if
+   (i32.lt_s
+    (get_local $0)
+    (i32.const 768)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $1
+   (block $~lib/internal/unicode/COMBINING_CLASS_RUNS|inlined.0 (result i32)
+    (i32.const 148360)
+   )
+  )
+  (set_local $2
+   (call $~lib/internal/string/findRow
+    (get_local $1)
+    (i32.const 3)
+    (i32.const 1)
+    (get_local $0)
+   )
+  )
+  (if (result i32)
+   (i32.ge_s
+    (get_local $2)
+    (i32.const 0)
+   )
+   (call $~lib/array/Array<i32>#__get
+    (get_local $1)
+    (i32.add
+     (get_local $2)
+     (i32.const 2)
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/array/Array<i32>#__set (; 26 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.shr_u
+    (i32.load
+     (get_local $3)
+    )
+    (i32.const 2)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (get_local $4)
+   )
+   (block
+    (if
+     (i32.ge_u
+      (get_local $1)
+      (i32.const 268435454)
+     )
+     (block
+      (set_global $~exception
+       (call $~lib/error/Error#constructor
+        (i32.const 0)
+        (i32.const 17104)
+       )
+      )
+      (return)
+     )
+    )
+    (set_local $3
+     (call $~lib/internal/arraybuffer/reallocateUnsafe
+      (get_local $3)
+      (i32.shl
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+       (i32.const 2)
+      )
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (get_local $3)
+    )
+    (i32.store offset=4
+     (get_local $0)
+     (i32.add
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+   )
+  )
+  (block $~lib/internal/arraybuffer/storeUnsafe<i32,i32>|inlined.1
+   (i32.store offset=8
+    (i32.add
+     (get_local $3)
+     (i32.shl
+      (get_local $1)
+      (i32.const 2)
+     )
+    )
+    (get_local $2)
+   )
+  )
+ )
+ (func $~lib/internal/string/composePair (; 27 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (set_local $2
+   (i32.sub
+    (get_local $0)
+    (get_global $~lib/internal/string/HANGUL_LBASE)
+   )
+  )
+  (if
+   (i32.lt_u
+    (get_local $2)
+    (get_global $~lib/internal/string/HANGUL_LCOUNT)
+   )
+   (block
+    (set_local $3
+     (i32.sub
+      (get_local $1)
+      (get_global $~lib/internal/string/HANGUL_VBASE)
+     )
+    )
+    (if
+     (i32.lt_u
+      (get_local $3)
+      (get_global $~lib/internal/string/HANGUL_VCOUNT)
+     )
+     (return
+      (i32.add
+       (get_global $~lib/internal/string/HANGUL_SBASE)
+       (i32.mul
+        (i32.add
+         (i32.mul
+          (get_local $2)
+          (get_global $~lib/internal/string/HANGUL_VCOUNT)
+         )
+         (get_local $3)
+        )
+        (get_global $~lib/internal/string/HANGUL_TCOUNT)
+       )
+      )
+     )
+    )
+    (return
+     (i32.const -1)
+    )
+   )
+  )
+  (set_local $4
+   (i32.sub
+    (get_local $0)
+    (get_global $~lib/internal/string/HANGUL_SBASE)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $3
+     (i32.lt_u
+      (get_local $4)
+      (get_global $~lib/internal/string/HANGUL_SCOUNT)
+     )
+    )
+    (i32.eqz
+     (i32.rem_s
+      (get_local $4)
+      (get_global $~lib/internal/string/HANGUL_TCOUNT)
+     )
+    )
+    (get_local $3)
+   )
+   (block
+    (set_local $3
+     (i32.sub
+      (get_local $1)
+      (get_global $~lib/internal/string/HANGUL_TBASE)
+     )
+    )
+    (if
+     (if (result i32)
+      (tee_local $5
+       (i32.gt_s
+        (get_local $3)
+        (i32.const 0)
+       )
+      )
+      (i32.lt_s
+       (get_local $3)
+       (get_global $~lib/internal/string/HANGUL_TCOUNT)
+      )
+      (get_local $5)
+     )
+     (return
+      (i32.add
+       (get_local $0)
+       (get_local $3)
+      )
+     )
+    )
+    (return
+     (i32.const -1)
+    )
+   )
+  )
+  (set_local $6
+   (block $~lib/internal/unicode/COMPOSITIONS|inlined.0 (result i32)
+    (i32.const 164752)
+   )
+  )
+  (set_local $7
+   (i32.const 0)
+  )
+  (set_local $8
+   (i32.sub
+    (i32.div_s
+     (block $~lib/array/Array<i32>#get:length|inlined.2 (result i32)
+      (i32.load offset=4
+       (get_local $6)
+      )
+     )
+     (i32.const 3)
+    )
+    (i32.const 1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.le_s
+      (get_local $7)
+      (get_local $8)
+     )
+     (block
+      (block
+       (set_local $3
+        (i32.shr_u
+         (i32.add
+          (get_local $7)
+          (get_local $8)
+         )
+         (i32.const 1)
+        )
+       )
+       (set_local $5
+        (i32.mul
+         (get_local $3)
+         (i32.const 3)
+        )
+       )
+       (set_local $9
+        (i32.sub
+         (get_local $0)
+         (call $~lib/array/Array<i32>#__get
+          (get_local $6)
+          (get_local $5)
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (get_local $9)
+        )
+        (set_local $9
+         (i32.sub
+          (get_local $1)
+          (call $~lib/array/Array<i32>#__get
+           (get_local $6)
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+         )
+        )
+       )
+       (if
+        (i32.lt_s
+         (get_local $9)
+         (i32.const 0)
+        )
+        (set_local $8
+         (i32.sub
+          (get_local $3)
+          (i32.const 1)
+         )
+        )
+        (if
+         (i32.gt_s
+          (get_local $9)
+          (i32.const 0)
+         )
+         (set_local $7
+          (i32.add
+           (get_local $3)
+           (i32.const 1)
+          )
+         )
+         (return
+          (call $~lib/array/Array<i32>#__get
+           (get_local $6)
+           (i32.add
+            (get_local $5)
+            (i32.const 2)
+           )
+          )
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.const -1)
+ )
+ (func $~lib/internal/string/normalizeUnsafe (; 28 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (local $13 i32)
+  (local $14 i32)
+  (local $15 i32)
+  (local $16 i32)
+  (local $17 i32)
+  (local $18 i32)
+  (local $19 i32)
+  (local $20 i32)
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (if (result i32)
+    (i32.and
+     (get_local $2)
+     (i32.const 1)
+    )
+    (i32.const 160)
+    (if (result i32)
+     (i32.and
+      (get_local $1)
+      (i32.const 1)
+     )
+     (i32.const 768)
+     (i32.const 192)
+    )
+   )
+  )
+  (set_local $5
+   (i32.const 0)
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (if (result i32)
+      (tee_local $6
+       (i32.lt_s
+        (get_local $5)
+        (get_local $3)
+       )
+      )
+      (i32.lt_s
+       (i32.load16_u offset=4
+        (i32.add
+         (get_local $0)
+         (i32.shl
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+       )
+       (get_local $4)
+      )
+      (get_local $6)
+     )
+     (block
+      (set_local $5
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $5)
+    (get_local $3)
+   )
+   (return
+    (get_local $0)
+   )
+  )
+  (set_local $7
+   (block (result i32)
+    (set_local $6
+     (call $~lib/array/Array<i32>#constructor
+      (i32.const 0)
+      (i32.const 0)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $6)
+   )
+  )
+  (block $break|1
+   (set_local $6
+    (i32.const 0)
+   )
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.eqz
+      (i32.lt_s
+       (get_local $6)
+       (get_local $5)
+      )
+     )
+    )
+    (drop
+     (block (result i32)
+      (set_local $8
+       (call $~lib/array/Array<i32>#push
+        (get_local $7)
+        (i32.load16_u offset=4
+         (i32.add
+          (get_local $0)
+          (i32.shl
+           (get_local $6)
+           (i32.const 1)
+          )
+         )
+        )
+       )
+      )
+      (if
+       (get_global $~exception)
+       (return
+        (i32.const 0)
+       )
+      )
+      (get_local $8)
+     )
+    )
+    (set_local $6
+     (i32.add
+      (get_local $6)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|1)
+   )
+  )
+  (block $break|2
+   (loop $continue|2
+    (if
+     (i32.lt_s
+      (get_local $5)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $6
+        (block $~lib/internal/string/loadCodePoint|inlined.2 (result i32)
+         (set_local $6
+          (i32.load16_u offset=4
+           (i32.add
+            (get_local $0)
+            (i32.shl
+             (get_local $5)
+             (i32.const 1)
+            )
+           )
+          )
+         )
+         (if
+          (if (result i32)
+           (tee_local $8
+            (i32.eq
+             (i32.and
+              (get_local $6)
+              (i32.const 64512)
+             )
+             (i32.const 55296)
+            )
+           )
+           (i32.lt_s
+            (i32.add
+             (get_local $5)
+             (i32.const 1)
+            )
+            (get_local $3)
+           )
+           (get_local $8)
+          )
+          (block
+           (set_local $8
+            (i32.load16_u offset=6
+             (i32.add
+              (get_local $0)
+              (i32.shl
+               (get_local $5)
+               (i32.const 1)
+              )
+             )
+            )
+           )
+           (if
+            (i32.eq
+             (i32.and
+              (get_local $8)
+              (i32.const 64512)
+             )
+             (i32.const 56320)
+            )
+            (br $~lib/internal/string/loadCodePoint|inlined.2
+             (i32.add
+              (i32.add
+               (i32.const 65536)
+               (i32.shl
+                (i32.and
+                 (get_local $6)
+                 (i32.const 1023)
+                )
+                (i32.const 10)
+               )
+              )
+              (i32.and
+               (get_local $8)
+               (i32.const 1023)
+              )
+             )
+            )
+           )
+          )
+         )
+         (get_local $6)
+        )
+       )
+       (set_local $5
+        (i32.add
+         (get_local $5)
+         (i32.add
+          (i32.const 1)
+          (i32.ge_s
+           (get_local $6)
+           (i32.const 65536)
+          )
+         )
+        )
+       )
+       (call $~lib/internal/string/decompose
+        (get_local $6)
+        (get_local $2)
+        (get_local $7)
+       )
+       (if
+        (get_global $~exception)
+        (return
+         (i32.const 0)
+        )
+       )
+      )
+      (br $continue|2)
+     )
+    )
+   )
+  )
+  (set_local $9
+   (block $~lib/array/Array<i32>#get:length|inlined.1 (result i32)
+    (i32.load offset=4
+     (get_local $7)
+    )
+   )
+  )
+  (set_local $10
+   (block (result i32)
+    (set_local $6
+     (call $~lib/array/Array<i32>#constructor
+      (i32.const 0)
+      (get_local $9)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $6)
+   )
+  )
+  (block $break|3
+   (set_local $6
+    (i32.const 0)
+   )
+   (loop $repeat|3
+    (block $continue|3
+     (br_if $break|3
+      (i32.eqz
+       (i32.lt_s
+        (get_local $6)
+        (get_local $9)
+       )
+      )
+     )
+     (block
+      (set_local $8
+       (call $~lib/internal/string/getCombiningRank
+        (call $~lib/array/Array<i32>#__get
+         (get_local $7)
+         (get_local $6)
+        )
+       )
+      )
+      (call $~lib/array/Array<i32>#__set
+       (get_local $10)
+       (get_local $6)
+       (get_local $8)
+      )
+      (if
+       (get_global $~exception)
+       (return
+        (i32.const 0)
+       )
+      )
+      (if
+       (i32.eqz
+        (get_local $8)
+       )
+       (br $continue|3)
+      )
+      (block $break|4
+       (set_local $11
+        (get_local $6)
+       )
+       (loop $repeat|4
+        (block $continue|4
+         (br_if $break|4
+          (i32.eqz
+           (i32.gt_s
+            (get_local $11)
+            (i32.const 0)
+           )
+          )
+         )
+         (block
+          (set_local $12
+           (call $~lib/array/Array<i32>#__get
+            (get_local $10)
+            (i32.sub
+             (get_local $11)
+             (i32.const 1)
+            )
+           )
+          )
+          (if
+           (i32.le_s
+            (get_local $12)
+            (get_local $8)
+           )
+           (br $break|4)
+          )
+          (call $~lib/array/Array<i32>#__set
+           (get_local $10)
+           (i32.sub
+            (get_local $11)
+            (i32.const 1)
+           )
+           (get_local $8)
+          )
+          (if
+           (get_global $~exception)
+           (return
+            (i32.const 0)
+           )
+          )
+          (call $~lib/array/Array<i32>#__set
+           (get_local $10)
+           (get_local $11)
+           (get_local $12)
+          )
+          (if
+           (get_global $~exception)
+           (return
+            (i32.const 0)
+           )
+          )
+          (set_local $13
+           (call $~lib/array/Array<i32>#__get
+            (get_local $7)
+            (i32.sub
+             (get_local $11)
+             (i32.const 1)
+            )
+           )
+          )
+          (call $~lib/array/Array<i32>#__set
+           (get_local $7)
+           (i32.sub
+            (get_local $11)
+            (i32.const 1)
+           )
+           (call $~lib/array/Array<i32>#__get
+            (get_local $7)
+            (get_local $11)
+           )
+          )
+          (if
+           (get_global $~exception)
+           (return
+            (i32.const 0)
+           )
+          )
+          (call $~lib/array/Array<i32>#__set
+           (get_local $7)
+           (get_local $11)
+           (get_local $13)
+          )
+          (if
+           (get_global $~exception)
+           (return
+            (i32.const 0)
+           )
+          )
+         )
+        )
+        (set_local $11
+         (i32.sub
+          (get_local $11)
+          (i32.const 1)
+         )
+        )
+        (br $repeat|4)
+       )
+      )
+     )
+    )
+    (set_local $6
+     (i32.add
+      (get_local $6)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|3)
+   )
+  )
+  (if
+   (i32.and
+    (if (result i32)
+     (i32.and
+      (get_local $1)
+      (i32.const 1)
+     )
+     (i32.gt_s
+      (get_local $9)
+      (i32.const 1)
+     )
+     (get_local $1)
+    )
+    (i32.const 1)
+   )
+   (block
+    (set_local $6
+     (i32.const 0)
+    )
+    (set_local $8
+     (call $~lib/array/Array<i32>#__get
+      (get_local $7)
+      (i32.const 0)
+     )
+    )
+    (set_local $11
+     (if (result i32)
+      (call $~lib/array/Array<i32>#__get
+       (get_local $10)
+       (i32.const 0)
+      )
+      (i32.const 256)
+      (i32.const 0)
+     )
+    )
+    (set_local $13
+     (i32.const 1)
+    )
+    (block $break|5
+     (set_local $12
+      (i32.const 1)
+     )
+     (loop $repeat|5
+      (br_if $break|5
+       (i32.eqz
+        (i32.lt_s
+         (get_local $12)
+         (get_local $9)
+        )
+       )
+      )
+      (block
+       (set_local $14
+        (call $~lib/array/Array<i32>#__get
+         (get_local $7)
+         (get_local $12)
+        )
+       )
+       (set_local $15
+        (call $~lib/array/Array<i32>#__get
+         (get_local $10)
+         (get_local $12)
+        )
+       )
+       (set_local $16
+        (if (result i32)
+         (if (result i32)
+          (tee_local $16
+           (i32.lt_s
+            (get_local $11)
+            (get_local $15)
+           )
+          )
+          (get_local $16)
+          (i32.eqz
+           (get_local $11)
+          )
+         )
+         (call $~lib/internal/string/composePair
+          (get_local $8)
+          (get_local $14)
+         )
+         (i32.const -1)
+        )
+       )
+       (if
+        (i32.ge_s
+         (get_local $16)
+         (i32.const 0)
+        )
+        (block
+         (call $~lib/array/Array<i32>#__set
+          (get_local $7)
+          (get_local $6)
+          (get_local $16)
+         )
+         (if
+          (get_global $~exception)
+          (return
+           (i32.const 0)
+          )
+         )
+         (set_local $8
+          (get_local $16)
+         )
+        )
+        (block
+         (if
+          (i32.eqz
+           (get_local $15)
+          )
+          (block
+           (set_local $6
+            (get_local $13)
+           )
+           (set_local $8
+            (get_local $14)
+           )
+          )
+         )
+         (set_local $11
+          (get_local $15)
+         )
+         (call $~lib/array/Array<i32>#__set
+          (get_local $7)
+          (block (result i32)
+           (set_local $17
+            (get_local $13)
+           )
+           (set_local $13
+            (i32.add
+             (get_local $17)
+             (i32.const 1)
+            )
+           )
+           (get_local $17)
+          )
+          (get_local $14)
+         )
+         (if
+          (get_global $~exception)
+          (return
+           (i32.const 0)
+          )
+         )
+        )
+       )
+      )
+      (set_local $12
+       (i32.add
+        (get_local $12)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|5)
+     )
+    )
+    (set_local $9
+     (get_local $13)
+    )
+   )
+  )
+  (set_local $18
+   (get_local $9)
+  )
+  (block $break|6
+   (set_local $13
+    (i32.const 0)
+   )
+   (loop $repeat|6
+    (br_if $break|6
+     (i32.eqz
+      (i32.lt_s
+       (get_local $13)
+       (get_local $9)
+      )
+     )
+    )
+    (set_local $18
+     (i32.add
+      (get_local $18)
+      (i32.ge_s
+       (call $~lib/array/Array<i32>#__get
+        (get_local $7)
+        (get_local $13)
+       )
+       (i32.const 65536)
+      )
+     )
+    )
+    (set_local $13
+     (i32.add
+      (get_local $13)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|6)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $18)
+   )
+   (return
+    (i32.const 8)
+   )
+  )
+  (set_local $19
+   (call $~lib/internal/string/allocateUnsafe
+    (get_local $18)
+   )
+  )
+  (set_local $20
+   (i32.const 0)
+  )
+  (block $break|7
+   (set_local $13
+    (i32.const 0)
+   )
+   (loop $repeat|7
+    (br_if $break|7
+     (i32.eqz
+      (i32.lt_s
+       (get_local $13)
+       (get_local $9)
+      )
+     )
+    )
+    (block
+     (set_local $11
+      (call $~lib/array/Array<i32>#__get
+       (get_local $7)
+       (get_local $13)
+      )
+     )
+     (if
+      (i32.lt_s
+       (get_local $11)
+       (i32.const 65536)
+      )
+      (block
+       (i32.store16 offset=4
+        (i32.add
+         (get_local $19)
+         (i32.shl
+          (get_local $20)
+          (i32.const 1)
+         )
+        )
+        (get_local $11)
+       )
+       (set_local $20
+        (i32.add
+         (get_local $20)
+         (i32.const 1)
+        )
+       )
+      )
+      (block
+       (set_local $11
+        (i32.sub
+         (get_local $11)
+         (i32.const 65536)
+        )
+       )
+       (i32.store16 offset=4
+        (i32.add
+         (get_local $19)
+         (i32.shl
+          (get_local $20)
+          (i32.const 1)
+         )
+        )
+        (i32.add
+         (i32.shr_u
+          (get_local $11)
+          (i32.const 10)
+         )
+         (i32.const 55296)
+        )
+       )
+       (i32.store16 offset=6
+        (i32.add
+         (get_local $19)
+         (i32.shl
+          (get_local $20)
+          (i32.const 1)
+         )
+        )
+        (i32.add
+         (i32.and
+          (get_local $11)
+          (i32.const 1023)
+         )
+         (i32.const 56320)
+        )
+       )
+       (set_local $20
+        (i32.add
+         (get_local $20)
+         (i32.const 2)
+        )
+       )
+      )
+     )
+    )
+    (set_local $13
+     (i32.add
+      (get_local $13)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|7)
+   )
+  )
+  (get_local $19)
+ )
+ (func $~lib/string/String#normalize (; 29 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 16)
+     (i32.const 270)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (call $~lib/string/String.__eq
+    (get_local $1)
+    (i32.const 17088)
+   )
+   (return
+    (block (result i32)
+     (set_local $2
+      (call $~lib/internal/string/normalizeUnsafe
+       (get_local $0)
+       (i32.const 1)
+       (i32.const 0)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (return
+       (i32.const 0)
+      )
+     )
+     (get_local $2)
+    )
+   )
+  )
+  (if
+   (call $~lib/string/String.__eq
+    (get_local $1)
+    (i32.const 164760)
+   )
+   (return
+    (block (result i32)
+     (set_local $2
+      (call $~lib/internal/string/normalizeUnsafe
+       (get_local $0)
+       (i32.const 0)
+       (i32.const 0)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (return
+       (i32.const 0)
+      )
+     )
+     (get_local $2)
+    )
+   )
+  )
+  (if
+   (call $~lib/string/String.__eq
+    (get_local $1)
+    (i32.const 164776)
+   )
+   (return
+    (block (result i32)
+     (set_local $2
+      (call $~lib/internal/string/normalizeUnsafe
+       (get_local $0)
+       (i32.const 1)
+       (i32.const 1)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (return
+       (i32.const 0)
+      )
+     )
+     (get_local $2)
+    )
+   )
+  )
+  (if
+   (call $~lib/string/String.__eq
+    (get_local $1)
+    (i32.const 164792)
+   )
+   (return
+    (block (result i32)
+     (set_local $2
+      (call $~lib/internal/string/normalizeUnsafe
+       (get_local $0)
+       (i32.const 0)
+       (i32.const 1)
+      )
+     )
+     (if
+      (get_global $~exception)
+      (return
+       (i32.const 0)
+      )
+     )
+     (get_local $2)
+    )
+   )
+  )
+  (set_global $~exception
+   (call $~lib/error/Error#constructor
+    (i32.const 0)
+    (i32.const 164808)
+   )
+  )
+  (return
+   (i32.const 0)
+  )
+ )
+ (func $~lib/string/String#normalize|trampoline (; 30 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (block $1of1
+   (block $0of1
+    (block $outOfRange
+     (br_table $0of1 $1of1 $outOfRange
+      (get_global $~argc)
+     )
+    )
+    (unreachable)
+   )
+   (set_local $1
+    (i32.const 17088)
+   )
+  )
+  (call $~lib/string/String#normalize
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $std/string-unicode/throwsRangeError (; 31 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (block $try|0
+   (block $catch|0
+    (drop
+     (block (result i32)
+      (set_local $1
+       (call $~lib/string/String#normalize
+        (i32.const 165192)
+        (get_local $0)
+       )
+      )
+      (if
+       (get_global $~exception)
+       (br $catch|0)
+      )
+      (get_local $1)
+     )
+    )
+    (br $try|0)
+   )
+   (set_local $1
+    (get_global $~exception)
+   )
+   (set_global $~exception
+    (i32.const 0)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (i32.const 0)
+ )
+ (func $start (; 32 ;) (type $v)
+  (local $0 i32)
+  (block $uncaught|start
+   (set_global $~lib/allocator/arena/startOffset
+    (i32.and
+     (i32.add
+      (get_global $HEAP_BASE)
+      (get_global $~lib/internal/allocator/AL_MASK)
+     )
+     (i32.xor
+      (get_global $~lib/internal/allocator/AL_MASK)
+      (i32.const -1)
+     )
+    )
+   )
+   (set_global $~lib/allocator/arena/offset
+    (get_global $~lib/allocator/arena/startOffset)
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/string/String#toLowerCase
+       (i32.const 8)
+      )
+      (i32.const 8)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 5)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/string/String#toUpperCase
+       (i32.const 8)
+      )
+      (i32.const 8)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 6)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/string/String#toLowerCase
+       (i32.const 16616)
+      )
+      (i32.const 16648)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 7)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/string/String#toUpperCase
+       (i32.const 16616)
+      )
+      (i32.const 16680)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 8)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/string/String#toLowerCase
+       (i32.const 16712)
+      )
+      (i32.const 16712)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 9)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/string/String#toLowerCase
+       (i32.const 16728)
+      )
+      (i32.const 16744)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 10)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/string/String#toUpperCase
+       (i32.const 16760)
+      )
+      (i32.const 16776)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 11)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/string/String#toUpperCase
+       (i32.const 16792)
+      )
+      (i32.const 16808)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 12)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/string/String#toLowerCase
+       (i32.const 16824)
+      )
+      (i32.const 16840)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 13)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/string/String#toUpperCase
+       (i32.const 16856)
+      )
+      (i32.const 16864)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 14)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/string/String#toLowerCase
+       (i32.const 16864)
+      )
+      (i32.const 16856)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 15)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/string/String#toUpperCase
+       (i32.const 16872)
+      )
+      (i32.const 16880)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 18)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/string/String#toUpperCase
+       (i32.const 16888)
+      )
+      (i32.const 16896)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 19)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/string/String#toLowerCase
+       (i32.const 16912)
+      )
+      (i32.const 16920)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 20)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/string/String#toUpperCase
+       (i32.const 16928)
+      )
+      (i32.const 16936)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 21)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/string/String#toLowerCase
+       (i32.const 16944)
+      )
+      (i32.const 16960)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 24)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/string/String#toLowerCase
+       (i32.const 16976)
+      )
+      (i32.const 16992)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 25)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/string/String#toLowerCase
+       (i32.const 17008)
+      )
+      (i32.const 17016)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 26)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/string/String#toLowerCase
+       (i32.const 17024)
+      )
+      (i32.const 17040)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 27)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (call $~lib/string/String#toLowerCase
+       (i32.const 17056)
+      )
+      (i32.const 17072)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 28)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (block (result i32)
+       (set_global $~argc
+        (i32.const 0)
+       )
+       (block (result i32)
+        (set_local $0
+         (call $~lib/string/String#normalize|trampoline
+          (i32.const 8)
+          (i32.const 0)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+      )
+      (i32.const 8)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 32)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (block (result i32)
+       (set_global $~argc
+        (i32.const 0)
+       )
+       (block (result i32)
+        (set_local $0
+         (call $~lib/string/String#normalize|trampoline
+          (i32.const 16712)
+          (i32.const 0)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+      )
+      (i32.const 16712)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 33)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (block (result i32)
+       (set_global $~argc
+        (i32.const 0)
+       )
+       (block (result i32)
+        (set_local $0
+         (call $~lib/string/String#normalize|trampoline
+          (i32.const 164976)
+          (i32.const 0)
+         )
+        )
+        (if
+         (get_global $~exception)
+         (br $uncaught|start)
+        )
+        (get_local $0)
+       )
+      )
+      (i32.const 164984)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 34)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (block (result i32)
+       (set_local $0
+        (call $~lib/string/String#normalize
+         (i32.const 164976)
+         (i32.const 17088)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 164984)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 35)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (block (result i32)
+       (set_local $0
+        (call $~lib/string/String#normalize
+         (i32.const 164984)
+         (i32.const 164760)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 164976)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 36)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (block (result i32)
+       (set_local $0
+        (call $~lib/string/String#normalize
+         (i32.const 164992)
+         (i32.const 17088)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 164992)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 37)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (block (result i32)
+       (set_local $0
+        (call $~lib/string/String#normalize
+         (i32.const 164992)
+         (i32.const 164760)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 165000)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 38)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (block (result i32)
+       (set_local $0
+        (call $~lib/string/String#normalize
+         (i32.const 164992)
+         (i32.const 164776)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 165016)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 39)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (block (result i32)
+       (set_local $0
+        (call $~lib/string/String#normalize
+         (i32.const 164992)
+         (i32.const 164792)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 165024)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 40)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (block (result i32)
+       (set_local $0
+        (call $~lib/string/String#normalize
+         (i32.const 165040)
+         (i32.const 164760)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 165056)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 41)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (block (result i32)
+       (set_local $0
+        (call $~lib/string/String#normalize
+         (i32.const 165040)
+         (i32.const 17088)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 165072)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 42)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (block (result i32)
+       (set_local $0
+        (call $~lib/string/String#normalize
+         (i32.const 165080)
+         (i32.const 164792)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 165088)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 43)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (block (result i32)
+       (set_local $0
+        (call $~lib/string/String#normalize
+         (i32.const 165080)
+         (i32.const 164760)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 165080)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 44)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (block (result i32)
+       (set_local $0
+        (call $~lib/string/String#normalize
+         (i32.const 165096)
+         (i32.const 17088)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 165104)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 45)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (block (result i32)
+       (set_local $0
+        (call $~lib/string/String#normalize
+         (i32.const 165112)
+         (i32.const 17088)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 165120)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 46)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (block (result i32)
+       (set_local $0
+        (call $~lib/string/String#normalize
+         (i32.const 165136)
+         (i32.const 164760)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 165144)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 49)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (block (result i32)
+       (set_local $0
+        (call $~lib/string/String#normalize
+         (i32.const 165144)
+         (i32.const 17088)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 165136)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 50)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (block (result i32)
+       (set_local $0
+        (call $~lib/string/String#normalize
+         (i32.const 165160)
+         (i32.const 17088)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 165168)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 51)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (call $std/string-unicode/throwsRangeError
+      (i32.const 165176)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 62)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eqz
+      (call $std/string-unicode/throwsRangeError
+       (i32.const 164792)
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 16568)
+      (i32.const 63)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (return)
+  )
+  (block
+   (call $~lib/env/abort
+    (i32.load
+     (get_global $~exception)
+    )
+    (i32.const 16568)
+    (i32.const 1)
+    (i32.const 0)
+   )
+   (unreachable)
+  )
+ )
+)
@@ -20,4 +20,21 @@ assert(load<u8>(ptr, 8) == 0xad);
 assert(load<u8>(ptr, 9) == 0xa2);
 assert(load<u8>(ptr, 10) == 0);
 
+assert(String.fromUTF8(ptr, len - 1) == str);
+assert(String.fromUTF8(ptr, 0) == "");
+assert(String.fromUTF8(ptr, 4) == "𐐷");
+assert(String.fromUTF8(ptr, 3) == "\uFFFD");
+assert(String.fromUTF8(ptr + 4, 2) == "hi");
+
 memory.free(ptr);
+
+var bad = memory.allocate(6);
+store<u8>(bad, 0xc0, 0); // overlong lead
+store<u8>(bad, 0xaf, 1); // stray continuation
+store<u8>(bad, 0xed, 2); // surrogate, each byte replaced on its own
+store<u8>(bad, 0xa0, 3);
+store<u8>(bad, 0x80, 4);
+store<u8>(bad, 0x41, 5);
+assert(String.fromUTF8(bad, 6) == "\uFFFD\uFFFD\uFFFD\uFFFD\uFFFDA");
+
+memory.free(bad);
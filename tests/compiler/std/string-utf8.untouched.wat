@@ -1,8 +1,12 @@
 (module
  (type $ii (func (param i32) (result i32)))
  (type $iiiiv (func (param i32 i32 i32 i32)))
- (type $iv (func (param i32)))
+ (type $iii (func (param i32 i32) (result i32)))
+ (type $iiii (func (param i32 i32 i32) (result i32)))
  (type $v (func))
+ (type $iiiv (func (param i32 i32 i32)))
+ (type $iv (func (param i32)))
+ (type $iiiiii (func (param i32 i32 i32 i32 i32) (result i32)))
  (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
  (global $~lib/internal/allocator/AL_BITS i32 (i32.const 3))
  (global $~lib/internal/allocator/AL_SIZE i32 (i32.const 8))
@@ -13,11 +17,21 @@
  (global $std/string-utf8/str (mut i32) (i32.const 8))
  (global $~lib/internal/string/HEADER_SIZE i32 (i32.const 4))
  (global $std/string-utf8/len (mut i32) (i32.const 0))
+ (global $~lib/internal/encoding/REPLACEMENT_CHARACTER i32 (i32.const 65533))
  (global $std/string-utf8/ptr (mut i32) (i32.const 0))
- (global $HEAP_BASE i32 (i32.const 64))
+ (global $~lib/internal/string/MAX_LENGTH i32 (i32.const 536870910))
+ (global $std/string-utf8/bad (mut i32) (i32.const 0))
+ (global $HEAP_BASE i32 (i32.const 224))
  (memory $0 1)
  (data (i32.const 8) "\06\00\00\00\01\d87\dch\00i\00R\d8b\df")
  (data (i32.const 24) "\12\00\00\00s\00t\00d\00/\00s\00t\00r\00i\00n\00g\00-\00u\00t\00f\008\00.\00t\00s\00")
+ (data (i32.const 64) "\00\00\00\00")
+ (data (i32.const 72) "\19\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00e\00n\00c\00o\00d\00i\00n\00g\00.\00t\00s\00")
+ (data (i32.const 128) "\17\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00s\00t\00r\00i\00n\00g\00.\00t\00s\00")
+ (data (i32.const 184) "\02\00\00\00\01\d87\dc")
+ (data (i32.const 192) "\01\00\00\00\fd\ff")
+ (data (i32.const 200) "\02\00\00\00h\00i\00")
+ (data (i32.const 208) "\06\00\00\00\fd\ff\fd\ff\fd\ff\fd\ff\fd\ffA\00")
  (export "memory" (memory $0))
  (start $start)
  (func $~lib/string/String#get:lengthUTF8 (; 1 ;) (type $ii) (param $0 i32) (result i32)
@@ -288,8 +302,7 @@
   )
   (get_local $1)
  )
- (func $~lib/string/String#toUTF8 (; 3 ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
+ (func $~lib/internal/encoding/encodeUTF8Unsafe (; 3 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
@@ -297,45 +310,31 @@
   (local $6 i32)
   (local $7 i32)
   (set_local $2
-   (block $~lib/memory/memory.allocate|inlined.0 (result i32)
-    (set_local $1
-     (call $~lib/string/String#get:lengthUTF8
-      (get_local $0)
-     )
-    )
-    (br $~lib/memory/memory.allocate|inlined.0
-     (call $~lib/allocator/arena/__memory_allocate
-      (get_local $1)
-     )
-    )
-   )
-  )
-  (set_local $3
    (i32.const 0)
   )
-  (set_local $4
+  (set_local $3
    (i32.load
     (get_local $0)
    )
   )
-  (set_local $5
+  (set_local $4
    (i32.const 0)
   )
   (block $break|0
    (loop $continue|0
     (if
      (i32.lt_u
+      (get_local $2)
       (get_local $3)
-      (get_local $4)
      )
      (block
       (block
-       (set_local $1
+       (set_local $5
         (i32.load16_u offset=4
          (i32.add
           (get_local $0)
           (i32.shl
-           (get_local $3)
+           (get_local $2)
            (i32.const 1)
           )
          )
@@ -343,47 +342,47 @@
        )
        (if
         (i32.lt_u
-         (get_local $1)
+         (get_local $5)
          (i32.const 128)
         )
         (block
          (i32.store8
           (i32.add
-           (get_local $2)
-           (get_local $5)
+           (get_local $1)
+           (get_local $4)
           )
-          (get_local $1)
+          (get_local $5)
          )
-         (set_local $5
+         (set_local $4
           (i32.add
-           (get_local $5)
+           (get_local $4)
            (i32.const 1)
           )
          )
-         (set_local $3
+         (set_local $2
           (i32.add
-           (get_local $3)
+           (get_local $2)
            (i32.const 1)
           )
          )
         )
         (if
          (i32.lt_u
-          (get_local $1)
+          (get_local $5)
           (i32.const 2048)
          )
          (block
           (set_local $6
            (i32.add
-            (get_local $2)
-            (get_local $5)
+            (get_local $1)
+            (get_local $4)
            )
           )
           (i32.store8
            (get_local $6)
            (i32.or
             (i32.shr_u
-             (get_local $1)
+             (get_local $5)
              (i32.const 6)
             )
             (i32.const 192)
@@ -393,21 +392,21 @@
            (get_local $6)
            (i32.or
             (i32.and
-             (get_local $1)
+             (get_local $5)
              (i32.const 63)
             )
             (i32.const 128)
            )
           )
-          (set_local $5
+          (set_local $4
            (i32.add
-            (get_local $5)
+            (get_local $4)
             (i32.const 2)
            )
           )
-          (set_local $3
+          (set_local $2
            (i32.add
-            (get_local $3)
+            (get_local $2)
             (i32.const 1)
            )
           )
@@ -415,140 +414,151 @@
          (block
           (set_local $6
            (i32.add
-            (get_local $2)
-            (get_local $5)
+            (get_local $1)
+            (get_local $4)
            )
           )
           (if
-           (if (result i32)
-            (tee_local $7
-             (i32.eq
-              (i32.and
-               (get_local $1)
-               (i32.const 64512)
-              )
-              (i32.const 55296)
-             )
-            )
-            (i32.lt_u
-             (i32.add
-              (get_local $3)
-              (i32.const 1)
-             )
-             (get_local $4)
+           (i32.eq
+            (i32.and
+             (get_local $5)
+             (i32.const 63488)
             )
-            (get_local $7)
+            (i32.const 55296)
            )
            (block
-            (set_local $7
-             (i32.load16_u offset=4
-              (i32.add
-               (get_local $0)
-               (i32.shl
-                (i32.add
-                 (get_local $3)
-                 (i32.const 1)
-                )
-                (i32.const 1)
+            (if
+             (if (result i32)
+              (tee_local $7
+               (i32.le_u
+                (get_local $5)
+                (i32.const 56319)
                )
               )
-             )
-            )
-            (if
-             (i32.eq
-              (i32.and
-               (get_local $7)
-               (i32.const 64512)
+              (i32.lt_u
+               (i32.add
+                (get_local $2)
+                (i32.const 1)
+               )
+               (get_local $3)
               )
-              (i32.const 56320)
+              (get_local $7)
              )
              (block
-              (set_local $1
-               (i32.add
+              (set_local $7
+               (i32.load16_u offset=4
                 (i32.add
-                 (i32.const 65536)
+                 (get_local $0)
                  (i32.shl
-                  (i32.and
-                   (get_local $1)
-                   (i32.const 1023)
+                  (i32.add
+                   (get_local $2)
+                   (i32.const 1)
                   )
-                  (i32.const 10)
+                  (i32.const 1)
                  )
                 )
+               )
+              )
+              (if
+               (i32.eq
                 (i32.and
                  (get_local $7)
-                 (i32.const 1023)
+                 (i32.const 64512)
                 )
+                (i32.const 56320)
                )
-              )
-              (i32.store8
-               (get_local $6)
-               (i32.or
-                (i32.shr_u
-                 (get_local $1)
-                 (i32.const 18)
+               (block
+                (set_local $5
+                 (i32.add
+                  (i32.add
+                   (i32.const 65536)
+                   (i32.shl
+                    (i32.and
+                     (get_local $5)
+                     (i32.const 1023)
+                    )
+                    (i32.const 10)
+                   )
+                  )
+                  (i32.and
+                   (get_local $7)
+                   (i32.const 1023)
+                  )
+                 )
                 )
-                (i32.const 240)
-               )
-              )
-              (i32.store8 offset=1
-               (get_local $6)
-               (i32.or
-                (i32.and
-                 (i32.shr_u
-                  (get_local $1)
-                  (i32.const 12)
+                (i32.store8
+                 (get_local $6)
+                 (i32.or
+                  (i32.shr_u
+                   (get_local $5)
+                   (i32.const 18)
+                  )
+                  (i32.const 240)
                  )
-                 (i32.const 63)
                 )
-                (i32.const 128)
-               )
-              )
-              (i32.store8 offset=2
-               (get_local $6)
-               (i32.or
-                (i32.and
-                 (i32.shr_u
-                  (get_local $1)
-                  (i32.const 6)
+                (i32.store8 offset=1
+                 (get_local $6)
+                 (i32.or
+                  (i32.and
+                   (i32.shr_u
+                    (get_local $5)
+                    (i32.const 12)
+                   )
+                   (i32.const 63)
+                  )
+                  (i32.const 128)
                  )
-                 (i32.const 63)
                 )
-                (i32.const 128)
-               )
-              )
-              (i32.store8 offset=3
-               (get_local $6)
-               (i32.or
-                (i32.and
-                 (get_local $1)
-                 (i32.const 63)
+                (i32.store8 offset=2
+                 (get_local $6)
+                 (i32.or
+                  (i32.and
+                   (i32.shr_u
+                    (get_local $5)
+                    (i32.const 6)
+                   )
+                   (i32.const 63)
+                  )
+                  (i32.const 128)
+                 )
                 )
-                (i32.const 128)
-               )
-              )
-              (set_local $5
-               (i32.add
-                (get_local $5)
-                (i32.const 4)
-               )
-              )
-              (set_local $3
-               (i32.add
-                (get_local $3)
-                (i32.const 2)
+                (i32.store8 offset=3
+                 (get_local $6)
+                 (i32.or
+                  (i32.and
+                   (get_local $5)
+                   (i32.const 63)
+                  )
+                  (i32.const 128)
+                 )
+                )
+                (set_local $4
+                 (i32.add
+                  (get_local $4)
+                  (i32.const 4)
+                 )
+                )
+                (set_local $2
+                 (i32.add
+                  (get_local $2)
+                  (i32.const 2)
+                 )
+                )
+                (br $continue|0)
                )
               )
-              (br $continue|0)
              )
             )
+            (set_local $5
+             (get_global $~lib/internal/encoding/REPLACEMENT_CHARACTER)
+            )
            )
           )
           (i32.store8
            (get_local $6)
            (i32.or
             (i32.shr_u
-             (get_local $1)
+             (get_local $5)
              (i32.const 12)
             )
             (i32.const 224)
@@ -559,7 +569,7 @@
            (i32.or
             (i32.and
              (i32.shr_u
-              (get_local $1)
+              (get_local $5)
               (i32.const 6)
              )
              (i32.const 63)
@@ -571,21 +581,21 @@
            (get_local $6)
            (i32.or
             (i32.and
-             (get_local $1)
+             (get_local $5)
              (i32.const 63)
             )
             (i32.const 128)
            )
           )
-          (set_local $5
+          (set_local $4
            (i32.add
-            (get_local $5)
+            (get_local $4)
             (i32.const 3)
            )
           )
-          (set_local $3
+          (set_local $2
            (i32.add
-            (get_local $3)
+            (get_local $2)
             (i32.const 1)
            )
           )
@@ -598,113 +608,2856 @@
     )
    )
   )
-  (i32.store8
-   (i32.add
-    (get_local $2)
-    (get_local $5)
-   )
-   (i32.const 0)
-  )
-  (get_local $2)
- )
- (func $~lib/allocator/arena/__memory_free (; 4 ;) (type $iv) (param $0 i32)
-  (nop)
+  (get_local $4)
  )
- (func $start (; 5 ;) (type $v)
-  (local $0 i32)
-  (set_global $~lib/allocator/arena/startOffset
-   (i32.and
-    (i32.add
-     (get_global $HEAP_BASE)
-     (get_global $~lib/internal/allocator/AL_MASK)
+ (func $~lib/string/String#toUTF8 (; 4 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (set_local $2
+   (block $~lib/memory/memory.allocate|inlined.0 (result i32)
+    (set_local $1
+     (call $~lib/string/String#get:lengthUTF8
+      (get_local $0)
+     )
     )
-    (i32.xor
-     (get_global $~lib/internal/allocator/AL_MASK)
-     (i32.const -1)
+    (br $~lib/memory/memory.allocate|inlined.0
+     (call $~lib/allocator/arena/__memory_allocate
+      (get_local $1)
+     )
     )
    )
   )
-  (set_global $~lib/allocator/arena/offset
-   (get_global $~lib/allocator/arena/startOffset)
-  )
-  (set_global $std/string-utf8/len
-   (call $~lib/string/String#get:lengthUTF8
-    (get_global $std/string-utf8/str)
-   )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (get_global $std/string-utf8/len)
-     (i32.const 11)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 24)
-     (i32.const 7)
-     (i32.const 0)
+  (i32.store8
+   (i32.add
+    (get_local $2)
+    (call $~lib/internal/encoding/encodeUTF8Unsafe
+     (get_local $0)
+     (get_local $2)
     )
-    (unreachable)
    )
+   (i32.const 0)
   )
-  (set_global $std/string-utf8/ptr
-   (call $~lib/string/String#toUTF8
-    (get_global $std/string-utf8/str)
-   )
+  (get_local $2)
+ )
+ (func $~lib/internal/encoding/invalidData (; 5 ;) (type $v)
+  (call $~lib/env/abort
+   (i32.const 0)
+   (i32.const 72)
+   (i32.const 22)
+   (i32.const 2)
   )
+  (unreachable)
+ )
+ (func $~lib/internal/string/allocateUnsafe (; 6 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
   (if
    (i32.eqz
-    (i32.eq
-     (i32.load8_u
-      (get_global $std/string-utf8/ptr)
+    (if (result i32)
+     (tee_local $1
+      (i32.gt_s
+       (get_local $0)
+       (i32.const 0)
+      )
      )
-     (i32.const 240)
+     (i32.le_s
+      (get_local $0)
+      (get_global $~lib/internal/string/MAX_LENGTH)
+     )
+     (get_local $1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 24)
-     (i32.const 11)
-     (i32.const 0)
+     (i32.const 128)
+     (i32.const 28)
+     (i32.const 2)
     )
     (unreachable)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (i32.load8_u offset=1
-      (get_global $std/string-utf8/ptr)
+  (set_local $2
+   (block $~lib/memory/memory.allocate|inlined.2 (result i32)
+    (set_local $1
+     (i32.add
+      (get_global $~lib/internal/string/HEADER_SIZE)
+      (i32.shl
+       (get_local $0)
+       (i32.const 1)
+      )
      )
-     (i32.const 144)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 24)
-     (i32.const 12)
-     (i32.const 0)
     )
-    (unreachable)
-   )
-  )
-  (if
-   (i32.eqz
-    (i32.eq
-     (i32.load8_u offset=2
-      (get_global $std/string-utf8/ptr)
+    (br $~lib/memory/memory.allocate|inlined.2
+     (call $~lib/allocator/arena/__memory_allocate
+      (get_local $1)
      )
-     (i32.const 144)
     )
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 24)
+  )
+  (i32.store
+   (get_local $2)
+   (get_local $0)
+  )
+  (get_local $2)
+ )
+ (func $~lib/internal/memory/memcpy (; 7 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (block $break|0
+   (loop $continue|0
+    (if
+     (if (result i32)
+      (get_local $2)
+      (i32.and
+       (get_local $1)
+       (i32.const 3)
+      )
+      (get_local $2)
+     )
+     (block
+      (block
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (i32.and
+     (get_local $0)
+     (i32.const 3)
+    )
+    (i32.const 0)
+   )
+   (block
+    (block $break|1
+     (loop $continue|1
+      (if
+       (i32.ge_u
+        (get_local $2)
+        (i32.const 16)
+       )
+       (block
+        (block
+         (i32.store
+          (get_local $0)
+          (i32.load
+           (get_local $1)
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 4)
+          )
+          (i32.load
+           (i32.add
+            (get_local $1)
+            (i32.const 4)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 8)
+          )
+          (i32.load
+           (i32.add
+            (get_local $1)
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 12)
+          )
+          (i32.load
+           (i32.add
+            (get_local $1)
+            (i32.const 12)
+           )
+          )
+         )
+         (set_local $1
+          (i32.add
+           (get_local $1)
+           (i32.const 16)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (get_local $0)
+           (i32.const 16)
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 16)
+          )
+         )
+        )
+        (br $continue|1)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 8)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+       (i32.load
+        (i32.add
+         (get_local $1)
+         (i32.const 4)
+        )
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 8)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 8)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 4)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 4)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 2)
+     )
+     (block
+      (i32.store16
+       (get_local $0)
+       (i32.load16_u
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 2)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 1)
+     )
+     (i32.store8
+      (block (result i32)
+       (set_local $5
+        (get_local $0)
+       )
+       (set_local $0
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+      (i32.load8_u
+       (block (result i32)
+        (set_local $5
+         (get_local $1)
+        )
+        (set_local $1
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+      )
+     )
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $2)
+    (i32.const 32)
+   )
+   (block $break|2
+    (block $case2|2
+     (block $case1|2
+      (block $case0|2
+       (set_local $5
+        (i32.and
+         (get_local $0)
+         (i32.const 3)
+        )
+       )
+       (br_if $case0|2
+        (i32.eq
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (br_if $case1|2
+        (i32.eq
+         (get_local $5)
+         (i32.const 2)
+        )
+       )
+       (br_if $case2|2
+        (i32.eq
+         (get_local $5)
+         (i32.const 3)
+        )
+       )
+       (br $break|2)
+      )
+      (block
+       (set_local $3
+        (i32.load
+         (get_local $1)
+        )
+       )
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (i32.store8
+        (block (result i32)
+         (set_local $5
+          (get_local $0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+        (i32.load8_u
+         (block (result i32)
+          (set_local $5
+           (get_local $1)
+          )
+          (set_local $1
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+          (get_local $5)
+         )
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 3)
+        )
+       )
+       (block $break|3
+        (loop $continue|3
+         (if
+          (i32.ge_u
+           (get_local $2)
+           (i32.const 17)
+          )
+          (block
+           (block
+            (set_local $4
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 1)
+              )
+             )
+            )
+            (i32.store
+             (get_local $0)
+             (i32.or
+              (i32.shr_u
+               (get_local $3)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $4)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 5)
+              )
+             )
+            )
+            (i32.store
+             (i32.add
+              (get_local $0)
+              (i32.const 4)
+             )
+             (i32.or
+              (i32.shr_u
+               (get_local $4)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $3)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $4
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 9)
+              )
+             )
+            )
+            (i32.store
+             (i32.add
+              (get_local $0)
+              (i32.const 8)
+             )
+             (i32.or
+              (i32.shr_u
+               (get_local $3)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $4)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 13)
+              )
+             )
+            )
+            (i32.store
+             (i32.add
+              (get_local $0)
+              (i32.const 12)
+             )
+             (i32.or
+              (i32.shr_u
+               (get_local $4)
+               (i32.const 24)
+              )
+              (i32.shl
+               (get_local $3)
+               (i32.const 8)
+              )
+             )
+            )
+            (set_local $1
+             (i32.add
+              (get_local $1)
+              (i32.const 16)
+             )
+            )
+            (set_local $0
+             (i32.add
+              (get_local $0)
+              (i32.const 16)
+             )
+            )
+            (set_local $2
+             (i32.sub
+              (get_local $2)
+              (i32.const 16)
+             )
+            )
+           )
+           (br $continue|3)
+          )
+         )
+        )
+       )
+       (br $break|2)
+      )
+     )
+     (block
+      (set_local $3
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store8
+       (block (result i32)
+        (set_local $5
+         (get_local $0)
+        )
+        (set_local $0
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+       (i32.load8_u
+        (block (result i32)
+         (set_local $5
+          (get_local $1)
+         )
+         (set_local $1
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+       )
+      )
+      (i32.store8
+       (block (result i32)
+        (set_local $5
+         (get_local $0)
+        )
+        (set_local $0
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+       (i32.load8_u
+        (block (result i32)
+         (set_local $5
+          (get_local $1)
+         )
+         (set_local $1
+          (i32.add
+           (get_local $5)
+           (i32.const 1)
+          )
+         )
+         (get_local $5)
+        )
+       )
+      )
+      (set_local $2
+       (i32.sub
+        (get_local $2)
+        (i32.const 2)
+       )
+      )
+      (block $break|4
+       (loop $continue|4
+        (if
+         (i32.ge_u
+          (get_local $2)
+          (i32.const 18)
+         )
+         (block
+          (block
+           (set_local $4
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 2)
+             )
+            )
+           )
+           (i32.store
+            (get_local $0)
+            (i32.or
+             (i32.shr_u
+              (get_local $3)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $4)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 6)
+             )
+            )
+           )
+           (i32.store
+            (i32.add
+             (get_local $0)
+             (i32.const 4)
+            )
+            (i32.or
+             (i32.shr_u
+              (get_local $4)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $3)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $4
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 10)
+             )
+            )
+           )
+           (i32.store
+            (i32.add
+             (get_local $0)
+             (i32.const 8)
+            )
+            (i32.or
+             (i32.shr_u
+              (get_local $3)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $4)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 14)
+             )
+            )
+           )
+           (i32.store
+            (i32.add
+             (get_local $0)
+             (i32.const 12)
+            )
+            (i32.or
+             (i32.shr_u
+              (get_local $4)
+              (i32.const 16)
+             )
+             (i32.shl
+              (get_local $3)
+              (i32.const 16)
+             )
+            )
+           )
+           (set_local $1
+            (i32.add
+             (get_local $1)
+             (i32.const 16)
+            )
+           )
+           (set_local $0
+            (i32.add
+             (get_local $0)
+             (i32.const 16)
+            )
+           )
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 16)
+            )
+           )
+          )
+          (br $continue|4)
+         )
+        )
+       )
+      )
+      (br $break|2)
+     )
+    )
+    (block
+     (set_local $3
+      (i32.load
+       (get_local $1)
+      )
+     )
+     (i32.store8
+      (block (result i32)
+       (set_local $5
+        (get_local $0)
+       )
+       (set_local $0
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+      (i32.load8_u
+       (block (result i32)
+        (set_local $5
+         (get_local $1)
+        )
+        (set_local $1
+         (i32.add
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+        (get_local $5)
+       )
+      )
+     )
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (block $break|5
+      (loop $continue|5
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 19)
+        )
+        (block
+         (block
+          (set_local $4
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 3)
+            )
+           )
+          )
+          (i32.store
+           (get_local $0)
+           (i32.or
+            (i32.shr_u
+             (get_local $3)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $4)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 7)
+            )
+           )
+          )
+          (i32.store
+           (i32.add
+            (get_local $0)
+            (i32.const 4)
+           )
+           (i32.or
+            (i32.shr_u
+             (get_local $4)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $3)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $4
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 11)
+            )
+           )
+          )
+          (i32.store
+           (i32.add
+            (get_local $0)
+            (i32.const 8)
+           )
+           (i32.or
+            (i32.shr_u
+             (get_local $3)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $4)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 15)
+            )
+           )
+          )
+          (i32.store
+           (i32.add
+            (get_local $0)
+            (i32.const 12)
+           )
+           (i32.or
+            (i32.shr_u
+             (get_local $4)
+             (i32.const 8)
+            )
+            (i32.shl
+             (get_local $3)
+             (i32.const 24)
+            )
+           )
+          )
+          (set_local $1
+           (i32.add
+            (get_local $1)
+            (i32.const 16)
+           )
+          )
+          (set_local $0
+           (i32.add
+            (get_local $0)
+            (i32.const 16)
+           )
+          )
+          (set_local $2
+           (i32.sub
+            (get_local $2)
+            (i32.const 16)
+           )
+          )
+         )
+         (br $continue|5)
+        )
+       )
+      )
+     )
+     (br $break|2)
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 16)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 8)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 4)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 2)
+   )
+   (block
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+    (i32.store8
+     (block (result i32)
+      (set_local $5
+       (get_local $0)
+      )
+      (set_local $0
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+     (i32.load8_u
+      (block (result i32)
+       (set_local $5
+        (get_local $1)
+       )
+       (set_local $1
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (get_local $5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 1)
+   )
+   (i32.store8
+    (block (result i32)
+     (set_local $5
+      (get_local $0)
+     )
+     (set_local $0
+      (i32.add
+       (get_local $5)
+       (i32.const 1)
+      )
+     )
+     (get_local $5)
+    )
+    (i32.load8_u
+     (block (result i32)
+      (set_local $5
+       (get_local $1)
+      )
+      (set_local $1
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (get_local $5)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/memory/memmove (; 8 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return)
+  )
+  (if
+   (if (result i32)
+    (tee_local $3
+     (i32.le_u
+      (i32.add
+       (get_local $1)
+       (get_local $2)
+      )
+      (get_local $0)
+     )
+    )
+    (get_local $3)
+    (i32.le_u
+     (i32.add
+      (get_local $0)
+      (get_local $2)
+     )
+     (get_local $1)
+    )
+   )
+   (block
+    (call $~lib/internal/memory/memcpy
+     (get_local $0)
+     (get_local $1)
+     (get_local $2)
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.lt_u
+    (get_local $0)
+    (get_local $1)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (block $break|0
+       (loop $continue|0
+        (if
+         (i32.and
+          (get_local $0)
+          (i32.const 7)
+         )
+         (block
+          (block
+           (if
+            (i32.eqz
+             (get_local $2)
+            )
+            (return)
+           )
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 1)
+            )
+           )
+           (i32.store8
+            (block (result i32)
+             (set_local $3
+              (get_local $0)
+             )
+             (set_local $0
+              (i32.add
+               (get_local $3)
+               (i32.const 1)
+              )
+             )
+             (get_local $3)
+            )
+            (i32.load8_u
+             (block (result i32)
+              (set_local $3
+               (get_local $1)
+              )
+              (set_local $1
+               (i32.add
+                (get_local $3)
+                (i32.const 1)
+               )
+              )
+              (get_local $3)
+             )
+            )
+           )
+          )
+          (br $continue|0)
+         )
+        )
+       )
+      )
+      (block $break|1
+       (loop $continue|1
+        (if
+         (i32.ge_u
+          (get_local $2)
+          (i32.const 8)
+         )
+         (block
+          (block
+           (i64.store
+            (get_local $0)
+            (i64.load
+             (get_local $1)
+            )
+           )
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 8)
+            )
+           )
+           (set_local $0
+            (i32.add
+             (get_local $0)
+             (i32.const 8)
+            )
+           )
+           (set_local $1
+            (i32.add
+             (get_local $1)
+             (i32.const 8)
+            )
+           )
+          )
+          (br $continue|1)
+         )
+        )
+       )
+      )
+     )
+    )
+    (block $break|2
+     (loop $continue|2
+      (if
+       (get_local $2)
+       (block
+        (block
+         (i32.store8
+          (block (result i32)
+           (set_local $3
+            (get_local $0)
+           )
+           (set_local $0
+            (i32.add
+             (get_local $3)
+             (i32.const 1)
+            )
+           )
+           (get_local $3)
+          )
+          (i32.load8_u
+           (block (result i32)
+            (set_local $3
+             (get_local $1)
+            )
+            (set_local $1
+             (i32.add
+              (get_local $3)
+              (i32.const 1)
+             )
+            )
+            (get_local $3)
+           )
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+        )
+        (br $continue|2)
+       )
+      )
+     )
+    )
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (block $break|3
+       (loop $continue|3
+        (if
+         (i32.and
+          (i32.add
+           (get_local $0)
+           (get_local $2)
+          )
+          (i32.const 7)
+         )
+         (block
+          (block
+           (if
+            (i32.eqz
+             (get_local $2)
+            )
+            (return)
+           )
+           (i32.store8
+            (i32.add
+             (get_local $0)
+             (tee_local $2
+              (i32.sub
+               (get_local $2)
+               (i32.const 1)
+              )
+             )
+            )
+            (i32.load8_u
+             (i32.add
+              (get_local $1)
+              (get_local $2)
+             )
+            )
+           )
+          )
+          (br $continue|3)
+         )
+        )
+       )
+      )
+      (block $break|4
+       (loop $continue|4
+        (if
+         (i32.ge_u
+          (get_local $2)
+          (i32.const 8)
+         )
+         (block
+          (block
+           (set_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 8)
+            )
+           )
+           (i64.store
+            (i32.add
+             (get_local $0)
+             (get_local $2)
+            )
+            (i64.load
+             (i32.add
+              (get_local $1)
+              (get_local $2)
+             )
+            )
+           )
+          )
+          (br $continue|4)
+         )
+        )
+       )
+      )
+     )
+    )
+    (block $break|5
+     (loop $continue|5
+      (if
+       (get_local $2)
+       (block
+        (i32.store8
+         (i32.add
+          (get_local $0)
+          (tee_local $2
+           (i32.sub
+            (get_local $2)
+            (i32.const 1)
+           )
+          )
+         )
+         (i32.load8_u
+          (i32.add
+           (get_local $1)
+           (get_local $2)
+          )
+         )
+        )
+        (br $continue|5)
+       )
+      )
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/allocator/arena/__memory_free (; 9 ;) (type $iv) (param $0 i32)
+  (nop)
+ )
+ (func $~lib/internal/encoding/decodeUTF8Unsafe (; 10 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (local $13 i32)
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (return
+    (i32.const 64)
+   )
+  )
+  (set_local $4
+   (block $~lib/memory/memory.allocate|inlined.1 (result i32)
+    (set_local $3
+     (i32.shl
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (br $~lib/memory/memory.allocate|inlined.1
+     (call $~lib/allocator/arena/__memory_allocate
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (set_local $5
+   (i32.add
+    (get_local $0)
+    (get_local $1)
+   )
+  )
+  (set_local $6
+   (i32.const 0)
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.lt_u
+      (get_local $0)
+      (get_local $5)
+     )
+     (block
+      (block
+       (set_local $3
+        (i32.load8_u
+         (block (result i32)
+          (set_local $3
+           (get_local $0)
+          )
+          (set_local $0
+           (i32.add
+            (get_local $3)
+            (i32.const 1)
+           )
+          )
+          (get_local $3)
+         )
+        )
+       )
+       (if
+        (i32.ge_u
+         (get_local $3)
+         (i32.const 128)
+        )
+        (block
+         (set_local $7
+          (i32.const 0)
+         )
+         (set_local $8
+          (i32.const 128)
+         )
+         (set_local $9
+          (i32.const 191)
+         )
+         (if
+          (if (result i32)
+           (tee_local $10
+            (i32.ge_u
+             (get_local $3)
+             (i32.const 194)
+            )
+           )
+           (i32.le_u
+            (get_local $3)
+            (i32.const 223)
+           )
+           (get_local $10)
+          )
+          (block
+           (set_local $7
+            (i32.const 1)
+           )
+           (set_local $3
+            (i32.and
+             (get_local $3)
+             (i32.const 31)
+            )
+           )
+          )
+          (if
+           (if (result i32)
+            (tee_local $10
+             (i32.ge_u
+              (get_local $3)
+              (i32.const 224)
+             )
+            )
+            (i32.le_u
+             (get_local $3)
+             (i32.const 239)
+            )
+            (get_local $10)
+           )
+           (block
+            (if
+             (i32.eq
+              (get_local $3)
+              (i32.const 224)
+             )
+             (set_local $8
+              (i32.const 160)
+             )
+             (if
+              (i32.eq
+               (get_local $3)
+               (i32.const 237)
+              )
+              (set_local $9
+               (i32.const 159)
+              )
+             )
+            )
+            (set_local $7
+             (i32.const 2)
+            )
+            (set_local $3
+             (i32.and
+              (get_local $3)
+              (i32.const 15)
+             )
+            )
+           )
+           (if
+            (if (result i32)
+             (tee_local $10
+              (i32.ge_u
+               (get_local $3)
+               (i32.const 240)
+              )
+             )
+             (i32.le_u
+              (get_local $3)
+              (i32.const 244)
+             )
+             (get_local $10)
+            )
+            (block
+             (if
+              (i32.eq
+               (get_local $3)
+               (i32.const 240)
+              )
+              (set_local $8
+               (i32.const 144)
+              )
+              (if
+               (i32.eq
+                (get_local $3)
+                (i32.const 244)
+               )
+               (set_local $9
+                (i32.const 143)
+               )
+              )
+             )
+             (set_local $7
+              (i32.const 3)
+             )
+             (set_local $3
+              (i32.and
+               (get_local $3)
+               (i32.const 7)
+              )
+             )
+            )
+           )
+          )
+         )
+         (set_local $10
+          (i32.ne
+           (get_local $7)
+           (i32.const 0)
+          )
+         )
+         (block $break|1
+          (loop $repeat|1
+           (br_if $break|1
+            (i32.eqz
+             (get_local $7)
+            )
+           )
+           (block
+            (set_local $11
+             (if (result i32)
+              (i32.lt_u
+               (get_local $0)
+               (get_local $5)
+              )
+              (i32.load8_u
+               (get_local $0)
+              )
+              (i32.const 0)
+             )
+            )
+            (if
+             (if (result i32)
+              (tee_local $12
+               (i32.lt_u
+                (get_local $11)
+                (get_local $8)
+               )
+              )
+              (get_local $12)
+              (i32.gt_u
+               (get_local $11)
+               (get_local $9)
+              )
+             )
+             (block
+              (set_local $10
+               (i32.const 0)
+              )
+              (br $break|1)
+             )
+            )
+            (set_local $3
+             (i32.or
+              (i32.shl
+               (get_local $3)
+               (i32.const 6)
+              )
+              (i32.and
+               (get_local $11)
+               (i32.const 63)
+              )
+             )
+            )
+            (set_local $8
+             (i32.const 128)
+            )
+            (set_local $9
+             (i32.const 191)
+            )
+            (set_local $0
+             (i32.add
+              (get_local $0)
+              (i32.const 1)
+             )
+            )
+           )
+           (set_local $7
+            (i32.sub
+             (get_local $7)
+             (i32.const 1)
+            )
+           )
+           (br $repeat|1)
+          )
+         )
+         (if
+          (i32.eqz
+           (get_local $10)
+          )
+          (block
+           (if
+            (i32.and
+             (get_local $2)
+             (i32.const 1)
+            )
+            (call $~lib/internal/encoding/invalidData)
+           )
+           (set_local $3
+            (get_global $~lib/internal/encoding/REPLACEMENT_CHARACTER)
+           )
+          )
+         )
+        )
+       )
+       (if
+        (i32.lt_u
+         (get_local $3)
+         (i32.const 65536)
+        )
+        (block
+         (i32.store16
+          (i32.add
+           (get_local $4)
+           (i32.shl
+            (get_local $6)
+            (i32.const 1)
+           )
+          )
+          (get_local $3)
+         )
+         (set_local $6
+          (i32.add
+           (get_local $6)
+           (i32.const 1)
+          )
+         )
+        )
+        (block
+         (set_local $3
+          (i32.sub
+           (get_local $3)
+           (i32.const 65536)
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $4)
+           (i32.shl
+            (get_local $6)
+            (i32.const 1)
+           )
+          )
+          (i32.or
+           (i32.shl
+            (i32.add
+             (i32.and
+              (get_local $3)
+              (i32.const 1023)
+             )
+             (i32.const 56320)
+            )
+            (i32.const 16)
+           )
+           (i32.add
+            (i32.shr_u
+             (get_local $3)
+             (i32.const 10)
+            )
+            (i32.const 55296)
+           )
+          )
+         )
+         (set_local $6
+          (i32.add
+           (get_local $6)
+           (i32.const 2)
+          )
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (set_local $13
+   (call $~lib/internal/string/allocateUnsafe
+    (get_local $6)
+   )
+  )
+  (block $~lib/memory/memory.copy|inlined.0
+   (set_local $3
+    (i32.add
+     (get_local $13)
+     (get_global $~lib/internal/string/HEADER_SIZE)
+    )
+   )
+   (set_local $10
+    (i32.shl
+     (get_local $6)
+     (i32.const 1)
+    )
+   )
+   (call $~lib/internal/memory/memmove
+    (get_local $3)
+    (get_local $4)
+    (get_local $10)
+   )
+  )
+  (block $~lib/memory/memory.free|inlined.0
+   (block
+    (call $~lib/allocator/arena/__memory_free
+     (get_local $4)
+    )
+    (br $~lib/memory/memory.free|inlined.0)
+   )
+  )
+  (get_local $13)
+ )
+ (func $~lib/string/String.fromUTF8 (; 11 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (call $~lib/internal/encoding/decodeUTF8Unsafe
+   (get_local $0)
+   (get_local $1)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/internal/string/compareUnsafe (; 12 ;) (type $iiiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (result i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (set_local $5
+   (i32.const 0)
+  )
+  (set_local $6
+   (i32.add
+    (get_local $0)
+    (i32.shl
+     (get_local $1)
+     (i32.const 1)
+    )
+   )
+  )
+  (set_local $7
+   (i32.add
+    (get_local $2)
+    (i32.shl
+     (get_local $3)
+     (i32.const 1)
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (if (result i32)
+      (get_local $4)
+      (i32.eqz
+       (tee_local $5
+        (i32.sub
+         (i32.load16_u offset=4
+          (get_local $6)
+         )
+         (i32.load16_u offset=4
+          (get_local $7)
+         )
+        )
+       )
+      )
+      (get_local $4)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.sub
+         (get_local $4)
+         (i32.const 1)
+        )
+       )
+       (set_local $6
+        (i32.add
+         (get_local $6)
+         (i32.const 2)
+        )
+       )
+       (set_local $7
+        (i32.add
+         (get_local $7)
+         (i32.const 2)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (get_local $5)
+ )
+ (func $~lib/string/String.__eq (; 13 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $2
+     (i32.eq
+      (get_local $0)
+      (i32.const 0)
+     )
+    )
+    (get_local $2)
+    (i32.eq
+     (get_local $1)
+     (i32.const 0)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.ne
+    (get_local $3)
+    (i32.load
+     (get_local $1)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.eqz
+   (call $~lib/internal/string/compareUnsafe
+    (get_local $0)
+    (i32.const 0)
+    (get_local $1)
+    (i32.const 0)
+    (get_local $3)
+   )
+  )
+ )
+ (func $start (; 14 ;) (type $v)
+  (local $0 i32)
+  (set_global $~lib/allocator/arena/startOffset
+   (i32.and
+    (i32.add
+     (get_global $HEAP_BASE)
+     (get_global $~lib/internal/allocator/AL_MASK)
+    )
+    (i32.xor
+     (get_global $~lib/internal/allocator/AL_MASK)
+     (i32.const -1)
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_global $~lib/allocator/arena/startOffset)
+  )
+  (set_global $std/string-utf8/len
+   (call $~lib/string/String#get:lengthUTF8
+    (get_global $std/string-utf8/str)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (get_global $std/string-utf8/len)
+     (i32.const 11)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 7)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/string-utf8/ptr
+   (call $~lib/string/String#toUTF8
+    (get_global $std/string-utf8/str)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.load8_u
+      (get_global $std/string-utf8/ptr)
+     )
+     (i32.const 240)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 11)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.load8_u offset=1
+      (get_global $std/string-utf8/ptr)
+     )
+     (i32.const 144)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 12)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.load8_u offset=2
+      (get_global $std/string-utf8/ptr)
+     )
+     (i32.const 144)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
      (i32.const 13)
      (i32.const 0)
     )
@@ -863,7 +3616,113 @@
     (unreachable)
    )
   )
-  (block $~lib/memory/memory.free|inlined.0
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String.fromUTF8
+      (get_global $std/string-utf8/ptr)
+      (i32.sub
+       (get_global $std/string-utf8/len)
+       (i32.const 1)
+      )
+     )
+     (get_global $std/string-utf8/str)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 23)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String.fromUTF8
+      (get_global $std/string-utf8/ptr)
+      (i32.const 0)
+     )
+     (i32.const 64)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 24)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String.fromUTF8
+      (get_global $std/string-utf8/ptr)
+      (i32.const 4)
+     )
+     (i32.const 184)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 25)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String.fromUTF8
+      (get_global $std/string-utf8/ptr)
+      (i32.const 3)
+     )
+     (i32.const 192)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 26)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String.fromUTF8
+      (i32.add
+       (get_global $std/string-utf8/ptr)
+       (i32.const 4)
+      )
+      (i32.const 2)
+     )
+     (i32.const 200)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 27)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (block $~lib/memory/memory.free|inlined.1
    (set_local $0
     (get_global $std/string-utf8/ptr)
    )
@@ -871,7 +3730,74 @@
     (call $~lib/allocator/arena/__memory_free
      (get_local $0)
     )
-    (br $~lib/memory/memory.free|inlined.0)
+    (br $~lib/memory/memory.free|inlined.1)
+   )
+  )
+  (set_global $std/string-utf8/bad
+   (block $~lib/memory/memory.allocate|inlined.3 (result i32)
+    (set_local $0
+     (i32.const 6)
+    )
+    (br $~lib/memory/memory.allocate|inlined.3
+     (call $~lib/allocator/arena/__memory_allocate
+      (get_local $0)
+     )
+    )
+   )
+  )
+  (i32.store8
+   (get_global $std/string-utf8/bad)
+   (i32.const 192)
+  )
+  (i32.store8 offset=1
+   (get_global $std/string-utf8/bad)
+   (i32.const 175)
+  )
+  (i32.store8 offset=2
+   (get_global $std/string-utf8/bad)
+   (i32.const 237)
+  )
+  (i32.store8 offset=3
+   (get_global $std/string-utf8/bad)
+   (i32.const 160)
+  )
+  (i32.store8 offset=4
+   (get_global $std/string-utf8/bad)
+   (i32.const 128)
+  )
+  (i32.store8 offset=5
+   (get_global $std/string-utf8/bad)
+   (i32.const 65)
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String.fromUTF8
+      (get_global $std/string-utf8/bad)
+      (i32.const 6)
+     )
+     (i32.const 208)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 24)
+     (i32.const 38)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (block $~lib/memory/memory.free|inlined.2
+   (set_local $0
+    (get_global $std/string-utf8/bad)
+   )
+   (block
+    (call $~lib/allocator/arena/__memory_free
+     (get_local $0)
+    )
+    (br $~lib/memory/memory.free|inlined.2)
    )
   )
  )
@@ -19,7 +19,7 @@ assert(String.fromCharCode(0x10000 + 54) == "6");
 
 assert(String.fromCodePoint(0) == "\0");
 assert(String.fromCodePoint(54) == "6");
-assert(String.fromCodePoint(0x1D306), "\uD834\uDF06");
+assert(String.fromCodePoint(0x1D306) == "\uD834\uDF06");
 
 assert(str.startsWith("hi"));
 assert(str.endsWith("string"));
@@ -43,6 +43,13 @@ assert("abc".padEnd(5) == "abc  ");
 assert("abc".padEnd(6, "abc") == "abcabc");
 assert("abc".padEnd(8, "abc") == "abcabcab");
 
+assert(" \tabc\n ".trim() == "abc");
+assert("abc  ".trim() == "abc");
+assert("   ".trim() == "");
+assert(" abc ".trimLeft() == "abc ");
+assert(" abc ".trimRight() == " abc");
+assert("   ".trimRight() == "");
+
 assert("".indexOf("") == 0);
 assert("".indexOf("hi") == -1);
 assert(str.indexOf("") == 0);
@@ -89,6 +96,13 @@ assert(c != "a");
 assert("" == "");
 assert("" != nullStr);
 
+assert("a" + 1 == "a1");
+assert(2 + "a" == "2a");
+assert("x" + 1.5 + true == "x1.5true");
+assert("u" + <u64>18446744073709551615 == "u18446744073709551615");
+c += <f32>0.1;
+assert(c == "ab0.1");
+
 assert("b" > "a");
 assert("ba" > "a");
 assert("ba" >= "aa");
@@ -125,6 +139,60 @@ assert("a".repeat(5) == "aaaaa");
 assert("a".repeat(6) == "aaaaaa");
 assert("a".repeat(7) == "aaaaaaa");
 
+assert("abcd" != "abcx");
+assert("abcd".localeCompare("abcd") == 0);
+assert("abc".localeCompare("abd") == -1);
+assert("abd".localeCompare("abc") == 1);
+assert("ab".localeCompare("abc") == -1);
+assert("abc".localeCompare("") == 1);
+assert("a".localeCompare("B") == -1);
+assert("B".localeCompare("a") == 1);
+assert("a".localeCompare("A") == -1);
+assert("A".localeCompare("b") == -1);
+assert("\u00e9".localeCompare("f") == -1);
+assert("a".localeCompare("\u00e1") == -1);
+assert("resume".localeCompare("R\u00e9sum\u00e9") == -1);
+assert("\u00e9".localeCompare("e\u0301") == 0);
+
+assert("abc".replace("", "+") == "+abc");
+assert("abcabc".replace("b", "x") == "axcabc");
+assert("abc".replace("d", "x") == "abc");
+assert("abc".replace("abc", "") == "");
+assert("abc".replace("b", "[$&$`$'$$]") == "a[bac$]c");
+assert("abc".replace("b", "$1$") == "a$1$c");
+assert("abcabc".replaceAll("b", "x") == "axcaxc");
+assert("aaa".replaceAll("aa", "b") == "ba");
+assert("abc".replaceAll("", "-") == "-a-b-c-");
+assert("".replaceAll("", "-") == "-");
+assert("abab".replaceAll("ab", "") == "");
+assert("abcabc".replaceAll("b", "<$&$`>") == "a<ba>ca<babca>c");
+
+var parts = "a,b,,c".split(",");
+assert(parts.length == 4);
+assert(parts[0] == "a" && parts[1] == "b" && parts[2] == "" && parts[3] == "c");
+parts = "a, b".split(", ");
+assert(parts.length == 2 && parts[0] == "a" && parts[1] == "b");
+parts = ",a,".split(",");
+assert(parts.length == 3 && parts[0] == "" && parts[1] == "a" && parts[2] == "");
+parts = "abc".split("");
+assert(parts.length == 3 && parts[0] == "a" && parts[1] == "b" && parts[2] == "c");
+parts = "abc".split();
+assert(parts.length == 1 && parts[0] == "abc");
+parts = "abc".split("x");
+assert(parts.length == 1 && parts[0] == "abc");
+parts = "".split(",");
+assert(parts.length == 1 && parts[0] == "");
+parts = "".split("");
+assert(parts.length == 0);
+parts = "a,b,c".split(",", 2);
+assert(parts.length == 2 && parts[0] == "a" && parts[1] == "b");
+parts = "abc".split("", 2);
+assert(parts.length == 2 && parts[0] == "a" && parts[1] == "b");
+parts = "a,b".split(",", 0);
+assert(parts.length == 0);
+parts = "a,b".split(",", -1);
+assert(parts.length == 2);
+
 assert(itoa32(0) == "0");
 assert(itoa32(1) == "1");
 assert(itoa32(8) == "8");
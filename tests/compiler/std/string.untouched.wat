@@ -9,8 +9,17 @@
  (type $i (func (result i32)))
  (type $iiF (func (param i32 i32) (result f64)))
  (type $iF (func (param i32) (result f64)))
+ (type $Fi (func (param f64) (result i32)))
+ (type $Iiv (func (param i64 i32)))
+ (type $IIIiI (func (param i64 i64 i64 i32) (result i64)))
+ (type $III (func (param i64 i64) (result i64)))
  (type $Ii (func (param i64) (result i32)))
  (type $iIiv (func (param i32 i64 i32)))
+ (type $iiiii (func (param i32 i32 i32 i32) (result i32)))
+ (type $iv (func (param i32)))
+ (type $fi (func (param f32) (result i32)))
+ (type $iiv (func (param i32 i32)))
+ (type $iIii (func (param i32 i64 i32) (result i32)))
  (type $v (func))
  (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
  (global $~lib/internal/allocator/AL_BITS i32 (i32.const 3))
@@ -19,19 +28,55 @@
  (global $~lib/internal/allocator/MAX_SIZE_32 i32 (i32.const 1073741824))
  (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
  (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
- (global $~lib/internal/string/HEADER_SIZE i32 (i32.const 4))
- (global $~lib/internal/string/MAX_LENGTH i32 (i32.const 536870910))
  (global $~lib/internal/arraybuffer/HEADER_SIZE i32 (i32.const 8))
  (global $~lib/internal/arraybuffer/MAX_BLENGTH i32 (i32.const 1073741816))
+ (global $~lib/internal/dtoa/POW5_INV_BITCOUNT i32 (i32.const 125))
+ (global $~lib/internal/dtoa/POW5_BITCOUNT i32 (i32.const 125))
+ (global $~lib/internal/dtoa/POW5_INV_BITCOUNT32 i32 (i32.const 61))
+ (global $~lib/internal/dtoa/POW5_BITCOUNT32 i32 (i32.const 61))
+ (global $~lib/internal/dtoa/_hi (mut i64) (i64.const 0))
+ (global $~lib/internal/dtoa/_output (mut i64) (i64.const 0))
+ (global $~lib/internal/dtoa/_exp10 (mut i32) (i32.const 0))
+ (global $~lib/internal/dtoa/BIG_LIMBS i32 (i32.const 40))
+ (global $~lib/internal/dtoa/BIG_SIZE i32 (i32.const 164))
+ (global $~lib/internal/dtoa/_k (mut i32) (i32.const 0))
+ (global $~lib/internal/encoding/REPLACEMENT_CHARACTER i32 (i32.const 65533))
+ (global $~lib/internal/string/HEADER_SIZE i32 (i32.const 4))
+ (global $~lib/internal/string/MAX_LENGTH i32 (i32.const 536870910))
+ (global $~lib/internal/string/HANGUL_SBASE i32 (i32.const 44032))
+ (global $~lib/internal/string/HANGUL_LBASE i32 (i32.const 4352))
+ (global $~lib/internal/string/HANGUL_VBASE i32 (i32.const 4449))
+ (global $~lib/internal/string/HANGUL_TBASE i32 (i32.const 4519))
+ (global $~lib/internal/string/HANGUL_LCOUNT i32 (i32.const 19))
+ (global $~lib/internal/string/HANGUL_VCOUNT i32 (i32.const 21))
+ (global $~lib/internal/string/HANGUL_TCOUNT i32 (i32.const 28))
+ (global $~lib/internal/string/HANGUL_NCOUNT i32 (i32.const 588))
+ (global $~lib/internal/string/HANGUL_SCOUNT i32 (i32.const 11172))
  (global $std/string/str (mut i32) (i32.const 8))
  (global $std/string/nullStr (mut i32) (i32.const 0))
  (global $~argc (mut i32) (i32.const 0))
  (global $ASC_SHRINK_LEVEL i32 (i32.const 0))
  (global $~lib/builtins/i32.MAX_VALUE i32 (i32.const 2147483647))
  (global $NaN f64 (f64.const nan:0x8000000000000))
+ (global $~lib/internal/string/CharCode.BACKSPACE i32 (i32.const 8))
+ (global $~lib/internal/string/CharCode.TAB i32 (i32.const 9))
+ (global $~lib/internal/string/CharCode.LINEFEED i32 (i32.const 10))
+ (global $~lib/internal/string/CharCode.VERTICALTAB i32 (i32.const 11))
+ (global $~lib/internal/string/CharCode.FORMFEED i32 (i32.const 12))
+ (global $~lib/internal/string/CharCode.CARRIAGERETURN i32 (i32.const 13))
+ (global $~lib/internal/string/CharCode.SPACE i32 (i32.const 32))
+ (global $~lib/internal/string/CharCode.DOUBLEQUOTE i32 (i32.const 34))
+ (global $~lib/internal/string/CharCode.DOLLAR i32 (i32.const 36))
+ (global $~lib/internal/string/CharCode.AMPERSAND i32 (i32.const 38))
+ (global $~lib/internal/string/CharCode.SINGLEQUOTE i32 (i32.const 39))
+ (global $~lib/internal/string/CharCode.OPENPAREN i32 (i32.const 40))
+ (global $~lib/internal/string/CharCode.CLOSEPAREN i32 (i32.const 41))
+ (global $~lib/internal/string/CharCode.ASTERISK i32 (i32.const 42))
  (global $~lib/internal/string/CharCode.PLUS i32 (i32.const 43))
+ (global $~lib/internal/string/CharCode.COMMA i32 (i32.const 44))
  (global $~lib/internal/string/CharCode.MINUS i32 (i32.const 45))
  (global $~lib/internal/string/CharCode.DOT i32 (i32.const 46))
+ (global $~lib/internal/string/CharCode.SLASH i32 (i32.const 47))
  (global $~lib/internal/string/CharCode._0 i32 (i32.const 48))
  (global $~lib/internal/string/CharCode._1 i32 (i32.const 49))
  (global $~lib/internal/string/CharCode._2 i32 (i32.const 50))
@@ -42,27 +87,60 @@
  (global $~lib/internal/string/CharCode._7 i32 (i32.const 55))
  (global $~lib/internal/string/CharCode._8 i32 (i32.const 56))
  (global $~lib/internal/string/CharCode._9 i32 (i32.const 57))
+ (global $~lib/internal/string/CharCode.COLON i32 (i32.const 58))
+ (global $~lib/internal/string/CharCode.QUESTION i32 (i32.const 63))
  (global $~lib/internal/string/CharCode.A i32 (i32.const 65))
  (global $~lib/internal/string/CharCode.B i32 (i32.const 66))
+ (global $~lib/internal/string/CharCode.D i32 (i32.const 68))
  (global $~lib/internal/string/CharCode.E i32 (i32.const 69))
+ (global $~lib/internal/string/CharCode.F i32 (i32.const 70))
  (global $~lib/internal/string/CharCode.O i32 (i32.const 79))
+ (global $~lib/internal/string/CharCode.S i32 (i32.const 83))
+ (global $~lib/internal/string/CharCode.W i32 (i32.const 87))
  (global $~lib/internal/string/CharCode.X i32 (i32.const 88))
+ (global $~lib/internal/string/CharCode.T i32 (i32.const 84))
  (global $~lib/internal/string/CharCode.Z i32 (i32.const 90))
+ (global $~lib/internal/string/CharCode.OPENBRACKET i32 (i32.const 91))
+ (global $~lib/internal/string/CharCode.BACKSLASH i32 (i32.const 92))
+ (global $~lib/internal/string/CharCode.CLOSEBRACKET i32 (i32.const 93))
+ (global $~lib/internal/string/CharCode.CARET i32 (i32.const 94))
+ (global $~lib/internal/string/CharCode._ i32 (i32.const 95))
+ (global $~lib/internal/string/CharCode.BACKTICK i32 (i32.const 96))
  (global $~lib/internal/string/CharCode.a i32 (i32.const 97))
  (global $~lib/internal/string/CharCode.b i32 (i32.const 98))
+ (global $~lib/internal/string/CharCode.c i32 (i32.const 99))
+ (global $~lib/internal/string/CharCode.d i32 (i32.const 100))
  (global $~lib/internal/string/CharCode.e i32 (i32.const 101))
+ (global $~lib/internal/string/CharCode.f i32 (i32.const 102))
+ (global $~lib/internal/string/CharCode.g i32 (i32.const 103))
+ (global $~lib/internal/string/CharCode.i i32 (i32.const 105))
+ (global $~lib/internal/string/CharCode.l i32 (i32.const 108))
+ (global $~lib/internal/string/CharCode.m i32 (i32.const 109))
+ (global $~lib/internal/string/CharCode.n i32 (i32.const 110))
  (global $~lib/internal/string/CharCode.o i32 (i32.const 111))
+ (global $~lib/internal/string/CharCode.r i32 (i32.const 114))
+ (global $~lib/internal/string/CharCode.s i32 (i32.const 115))
+ (global $~lib/internal/string/CharCode.t i32 (i32.const 116))
+ (global $~lib/internal/string/CharCode.u i32 (i32.const 117))
+ (global $~lib/internal/string/CharCode.v i32 (i32.const 118))
+ (global $~lib/internal/string/CharCode.w i32 (i32.const 119))
  (global $~lib/internal/string/CharCode.x i32 (i32.const 120))
  (global $~lib/internal/string/CharCode.z i32 (i32.const 122))
+ (global $~lib/internal/string/CharCode.OPENBRACE i32 (i32.const 123))
+ (global $~lib/internal/string/CharCode.BAR i32 (i32.const 124))
+ (global $~lib/internal/string/CharCode.CLOSEBRACE i32 (i32.const 125))
+ (global $~lib/internal/string/CharCode.LINESEPARATOR i32 (i32.const 8232))
+ (global $~lib/internal/string/CharCode.PARAGRAPHSEPARATOR i32 (i32.const 8233))
  (global $std/string/c (mut i32) (i32.const 0))
+ (global $~lib/builtins/u32.MAX_VALUE i32 (i32.const -1))
  (global $std/string/a (mut i32) (i32.const 0))
  (global $std/string/b (mut i32) (i32.const 0))
- (global $~lib/builtins/u32.MAX_VALUE i32 (i32.const -1))
+ (global $std/string/parts (mut i32) (i32.const 0))
  (global $~lib/builtins/u64.MAX_VALUE i64 (i64.const -1))
  (global $~lib/builtins/i64.MAX_VALUE i64 (i64.const 9223372036854775807))
  (global $~lib/builtins/i64.MIN_VALUE i64 (i64.const -9223372036854775808))
- (global $HEAP_BASE i32 (i32.const 2796))
- (memory $0 1)
+ (global $HEAP_BASE i32 (i32.const 200428))
+ (memory $0 4)
  (data (i32.const 8) "\10\00\00\00h\00i\00,\00 \00I\00\'\00m\00 \00a\00 \00s\00t\00r\00i\00n\00g\00")
  (data (i32.const 48) "\0d\00\00\00s\00t\00d\00/\00s\00t\00r\00i\00n\00g\00.\00t\00s\00")
  (data (i32.const 80) "\0e\00\00\00~\00l\00i\00b\00/\00s\00t\00r\00i\00n\00g\00.\00t\00s\00")
@@ -86,69 +164,153 @@
  (data (i32.const 376) "\05\00\00\00a\00b\00c\00 \00 \00")
  (data (i32.const 392) "\06\00\00\00a\00b\00c\00a\00b\00c\00")
  (data (i32.const 408) "\08\00\00\00a\00b\00c\00a\00b\00c\00a\00b\00")
- (data (i32.const 432) "\01\00\00\00,\00")
- (data (i32.const 440) "\01\00\00\00x\00")
- (data (i32.const 448) "\03\00\00\00,\00 \00I\00")
- (data (i32.const 464) "\01\00\00\00g\00")
- (data (i32.const 472) "\01\00\00\00i\00")
- (data (i32.const 480) "\01\00\00\000\00")
- (data (i32.const 488) "\01\00\00\001\00")
- (data (i32.const 496) "\05\00\00\000\00b\001\000\001\00")
- (data (i32.const 512) "\05\00\00\000\00o\007\000\007\00")
- (data (i32.const 528) "\05\00\00\000\00x\00f\000\00f\00")
- (data (i32.const 544) "\05\00\00\000\00x\00F\000\00F\00")
- (data (i32.const 560) "\03\00\00\000\001\001\00")
- (data (i32.const 576) "\04\00\00\000\00x\001\00g\00")
- (data (i32.const 592) "\03\00\00\000\00.\001\00")
- (data (i32.const 608) "\03\00\00\00.\002\005\00")
- (data (i32.const 624) "\08\00\00\00.\001\00f\00o\00o\00b\00a\00r\00")
- (data (i32.const 648) "\01\00\00\00b\00")
- (data (i32.const 656) "\02\00\00\00a\00b\00")
- (data (i32.const 664) "\02\00\00\00b\00a\00")
- (data (i32.const 672) "\02\00\00\00a\00a\00")
- (data (i32.const 680) "\03\00\00\00a\00a\00a\00")
- (data (i32.const 696) "\08\00\00\00a\00b\00a\00b\00a\00b\00a\00b\00")
- (data (i32.const 720) "\05\00\00\00a\00a\00a\00a\00a\00")
- (data (i32.const 736) "\06\00\00\00a\00a\00a\00a\00a\00a\00")
- (data (i32.const 752) "\07\00\00\00a\00a\00a\00a\00a\00a\00a\00")
- (data (i32.const 776) "(\00\00\00\00\00\00\00\01\00\00\00\n\00\00\00d\00\00\00\e8\03\00\00\10\'\00\00\a0\86\01\00@B\0f\00\80\96\98\00\00\e1\f5\05\00\ca\9a;\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
- (data (i32.const 840) "\08\03\00\00\n\00\00\00")
- (data (i32.const 848) "\90\01\00\00\00\00\00\000\000\000\001\000\002\000\003\000\004\000\005\000\006\000\007\000\008\000\009\001\000\001\001\001\002\001\003\001\004\001\005\001\006\001\007\001\008\001\009\002\000\002\001\002\002\002\003\002\004\002\005\002\006\002\007\002\008\002\009\003\000\003\001\003\002\003\003\003\004\003\005\003\006\003\007\003\008\003\009\004\000\004\001\004\002\004\003\004\004\004\005\004\006\004\007\004\008\004\009\005\000\005\001\005\002\005\003\005\004\005\005\005\006\005\007\005\008\005\009\006\000\006\001\006\002\006\003\006\004\006\005\006\006\006\007\006\008\006\009\007\000\007\001\007\002\007\003\007\004\007\005\007\006\007\007\007\008\007\009\008\000\008\001\008\002\008\003\008\004\008\005\008\006\008\007\008\008\008\009\009\000\009\001\009\002\009\003\009\004\009\005\009\006\009\007\009\008\009\009\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
- (data (i32.const 1360) "P\03\00\00d\00\00\00")
- (data (i32.const 1368) "\01\00\00\008\00")
- (data (i32.const 1376) "\05\00\00\00-\001\000\000\000\00")
- (data (i32.const 1392) "\04\00\00\001\002\003\004\00")
- (data (i32.const 1408) "\05\00\00\001\002\003\004\005\00")
- (data (i32.const 1424) "\06\00\00\001\002\003\004\005\006\00")
- (data (i32.const 1440) "\07\00\00\001\001\001\001\001\001\001\00")
- (data (i32.const 1464) "\07\00\00\001\002\003\004\005\006\007\00")
- (data (i32.const 1488) "\n\00\00\002\001\004\007\004\008\003\006\004\006\00")
- (data (i32.const 1512) "\n\00\00\002\001\004\007\004\008\003\006\004\007\00")
- (data (i32.const 1536) "\0b\00\00\00-\002\001\004\007\004\008\003\006\004\008\00")
- (data (i32.const 1568) "\02\00\00\00-\001\00")
- (data (i32.const 1576) "\04\00\00\001\000\000\000\00")
- (data (i32.const 1592) "\n\00\00\002\001\004\007\004\008\003\006\004\008\00")
- (data (i32.const 1616) "\n\00\00\004\002\009\004\009\006\007\002\009\005\00")
- (data (i32.const 1640) "(\00\00\00\00\00\00\00\01\00\00\00\n\00\00\00d\00\00\00\e8\03\00\00\10\'\00\00\a0\86\01\00@B\0f\00\80\96\98\00\00\e1\f5\05\00\ca\9a;\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
- (data (i32.const 1704) "h\06\00\00\n\00\00\00")
- (data (i32.const 1712) "\90\01\00\00\00\00\00\000\000\000\001\000\002\000\003\000\004\000\005\000\006\000\007\000\008\000\009\001\000\001\001\001\002\001\003\001\004\001\005\001\006\001\007\001\008\001\009\002\000\002\001\002\002\002\003\002\004\002\005\002\006\002\007\002\008\002\009\003\000\003\001\003\002\003\003\003\004\003\005\003\006\003\007\003\008\003\009\004\000\004\001\004\002\004\003\004\004\004\005\004\006\004\007\004\008\004\009\005\000\005\001\005\002\005\003\005\004\005\005\005\006\005\007\005\008\005\009\006\000\006\001\006\002\006\003\006\004\006\005\006\006\006\007\006\008\006\009\007\000\007\001\007\002\007\003\007\004\007\005\007\006\007\007\007\008\007\009\008\000\008\001\008\002\008\003\008\004\008\005\008\006\008\007\008\008\008\009\009\000\009\001\009\002\009\003\009\004\009\005\009\006\009\007\009\008\009\009\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
- (data (i32.const 2224) "\b0\06\00\00d\00\00\00")
- (data (i32.const 2232) "\08\00\00\009\009\009\009\009\009\009\009\00")
- (data (i32.const 2256) "\t\00\00\001\000\000\000\000\000\000\000\000\00")
- (data (i32.const 2280) "\0b\00\00\006\008\007\001\009\004\007\006\007\003\005\00")
- (data (i32.const 2312) "\0c\00\00\008\006\008\007\001\009\004\007\006\007\003\005\00")
- (data (i32.const 2344) "\0f\00\00\009\009\009\008\006\008\007\001\009\004\007\006\007\003\005\00")
- (data (i32.const 2384) "\10\00\00\009\009\009\009\008\006\008\007\001\009\004\007\006\007\003\005\00")
- (data (i32.const 2424) "\11\00\00\001\009\009\009\009\008\006\008\007\001\009\004\007\006\007\003\005\00")
- (data (i32.const 2464) "\14\00\00\001\008\004\004\006\007\004\004\000\007\003\007\000\009\005\005\001\006\001\005\00")
- (data (i32.const 2512) "\05\00\00\00-\001\002\003\004\00")
- (data (i32.const 2528) "\0b\00\00\00-\004\002\009\004\009\006\007\002\009\005\00")
- (data (i32.const 2560) "\0c\00\00\00-\006\008\007\001\009\004\007\006\007\003\005\00")
- (data (i32.const 2592) "\0d\00\00\00-\008\006\008\007\001\009\004\007\006\007\003\005\00")
- (data (i32.const 2624) "\10\00\00\00-\009\009\009\008\006\008\007\001\009\004\007\006\007\003\005\00")
- (data (i32.const 2664) "\12\00\00\00-\001\009\009\009\009\008\006\008\007\001\009\004\007\006\007\003\005\00")
- (data (i32.const 2704) "\13\00\00\009\002\002\003\003\007\002\000\003\006\008\005\004\007\007\005\008\000\007\00")
- (data (i32.const 2752) "\14\00\00\00-\009\002\002\003\003\007\002\000\003\006\008\005\004\007\007\005\008\000\008\00")
+ (data (i32.const 432) "\07\00\00\00 \00\t\00a\00b\00c\00\n\00 \00")
+ (data (i32.const 456) "\05\00\00\00 \00a\00b\00c\00 \00")
+ (data (i32.const 472) "\04\00\00\00a\00b\00c\00 \00")
+ (data (i32.const 488) "\04\00\00\00 \00a\00b\00c\00")
+ (data (i32.const 504) "\01\00\00\00,\00")
+ (data (i32.const 512) "\01\00\00\00x\00")
+ (data (i32.const 520) "\03\00\00\00,\00 \00I\00")
+ (data (i32.const 536) "\01\00\00\00g\00")
+ (data (i32.const 544) "\01\00\00\00i\00")
+ (data (i32.const 552) "\01\00\00\000\00")
+ (data (i32.const 560) "\01\00\00\001\00")
+ (data (i32.const 568) "\05\00\00\000\00b\001\000\001\00")
+ (data (i32.const 584) "\05\00\00\000\00o\007\000\007\00")
+ (data (i32.const 600) "\05\00\00\000\00x\00f\000\00f\00")
+ (data (i32.const 616) "\05\00\00\000\00x\00F\000\00F\00")
+ (data (i32.const 632) "\03\00\00\000\001\001\00")
+ (data (i32.const 648) "\04\00\00\000\00x\001\00g\00")
+ (data (i32.const 664) "\03\00\00\000\00.\001\00")
+ (data (i32.const 680) "\03\00\00\00.\002\005\00")
+ (data (i32.const 696) "\08\00\00\00.\001\00f\00o\00o\00b\00a\00r\00")
+ (data (i32.const 720) "\01\00\00\00b\00")
+ (data (i32.const 728) "\02\00\00\00a\00b\00")
+ (data (i32.const 736) "(\00\00\00\00\00\00\00\01\00\00\00\n\00\00\00d\00\00\00\e8\03\00\00\10\'\00\00\a0\86\01\00@B\0f\00\80\96\98\00\00\e1\f5\05\00\ca\9a;\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 800) "\e0\02\00\00\n\00\00\00")
+ (data (i32.const 808) "\90\01\00\00\00\00\00\000\000\000\001\000\002\000\003\000\004\000\005\000\006\000\007\000\008\000\009\001\000\001\001\001\002\001\003\001\004\001\005\001\006\001\007\001\008\001\009\002\000\002\001\002\002\002\003\002\004\002\005\002\006\002\007\002\008\002\009\003\000\003\001\003\002\003\003\003\004\003\005\003\006\003\007\003\008\003\009\004\000\004\001\004\002\004\003\004\004\004\005\004\006\004\007\004\008\004\009\005\000\005\001\005\002\005\003\005\004\005\005\005\006\005\007\005\008\005\009\006\000\006\001\006\002\006\003\006\004\006\005\006\006\006\007\006\008\006\009\007\000\007\001\007\002\007\003\007\004\007\005\007\006\007\007\007\008\007\009\008\000\008\001\008\002\008\003\008\004\008\005\008\006\008\007\008\008\008\009\009\000\009\001\009\002\009\003\009\004\009\005\009\006\009\007\009\008\009\009\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 1320) "(\03\00\00d\00\00\00")
+ (data (i32.const 1328) "\02\00\00\00a\001\00")
+ (data (i32.const 1336) "\02\00\00\002\00a\00")
+ (data (i32.const 1344) "\03\00\00\00N\00a\00N\00")
+ (data (i32.const 1360) "\t\00\00\00-\00I\00n\00f\00i\00n\00i\00t\00y\00")
+ (data (i32.const 1384) "\08\00\00\00I\00n\00f\00i\00n\00i\00t\00y\00")
+ (data (i32.const 1408) "`\15\00\00\00\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00 \9a\99\99\99\99\99\99\99\99\99\99\99\99\99\99\19\15\aeG\e1z\14\aeG\e1z\14\aeG\e1z\14\de$\06\81\95C\8bl\e7\fb\a9\f1\d2Mb\10\96\d4\th\"lxz\a5,C\1c\eb\e26\1a\abCn\86\1b\f0\f9a\84\f0h\e3\88\b5\f8\14\"6X8I\f3\c7\b46\8d\ed\b5\a0\f7\c6\10j#\8d\c0\0eR\a6\87WH\af\bc\9a\f2\d7\1a\88O\d7f\a5A\b8\9f\df9\8c0\e2\8ey\15\07\a6\12\1fQ\01-\e6\b2\94\d6&\e8\0b.\11\a4\tQ\cb\81h\ae\d6\b7\ba\bd\d7\d9\df|\1b\ea:\a7\a24\ed\f1\de_\95dy\e1\7f\fd\15\bb\c8\85\e8\f6\f0\'\7f\19\11\ea-\81\99\97\11\f8\0d\d6@\be\b4\0ce\c2\81vIh\c2%\1c\93q\de3\98\90p\ea\01\9b+\a1\86\9b\84\16C\c1~)\e0\a6\f3!\9b\15V\e7\9e\af\03\12751\0f\cd\d7\85i+\bc\89\d8\97\b2\d2\1c\f9\90Z?\d7\df7!\89\96\d4FF\f5\0e\17\fasH\ccE\e6_\e7\a0\abC\d2\d1]r\12]\86\0dz<=f\a54\ac\d2\b6O\c9\83\1d\b1\9e\d7\94c\97\1eQ]#B\92\0c\a1\9c\17\c1Ky\dd\82\df~\da}O\9b\0e\n\b4\e3\12h\ac[b\d1\98d*\96\e5^\17\10 9\1eS\f0\e2\81\a7\e0\b6\eeDQ\b2\12@\b3-\18\a9&O\ceRM\92Xj\a7\8e\a8\99\c2W\13A\a4~\b0\b7{P\'\aa\d8}\da\f5\d0\f2\1e4Pe\c0_\c9\a6R\bb\13\cb\ae\c4@\c2\18\90\a6\ea\99L\d4\eb\0e\c9\0f<\f26\9a\ce\13\80\n\11\c3\adSy\b1A\19`P\be\f6\b0\1fg\08t\02\8b\dc-\c1gG\b3\a6\fe^Z\19R\a0)5o\b0$4\86\9f\c2\eb\feKH\14\db\19\ee\90\f2Y\1d\90\9e\7fh\89e\d69\10_)\b0\b4\1d\c3\fbL\972\a7\a8\d5#\f6\19\b2\baY]\b15\96=\ac[\1f\baw\e9\c4\14(b\e1}\'^\ab\97VIL\fb\92\87\9d\10\0d\9dh\c9\d8\c9\ab\f2\f0\0ez\f8\b7\a5\95\1a>\17\ba:z\a1\bc[Zr.-\93\84D\15\cbE\fb.\c8\1a\ca\af\ae\8e\8b\8aB\9d\03\11E\t\92\b1\a6\f7\dc\b2J\e4x\aa\9d\fb8\1b\04\a1A\c1\eb\92}\f5n\83-U\b1/\c7\15\03\b4gg\89ud\c4X\9cWw\'&l\11\d2\ec\a5\d8\db\88mm\f4\c6%\f2\0b=\e0\1b\db#\ebF\16\07\be\8a\c38\1e(\a3\fdL\16I\b6U\d2\11l\fen\9c`KSO1\d7\11\0e\8a\ef\b6O\13\97\b1`gE\85\18\82\8b\1c\a5\a1\bf\f8r\0f\ac\'\1a\b9j7\ad\01\d6\16\1eN\99`\c2rV\b9\e1`U,$\ceD\12\95\16\c2\cd\03\1eW\f55\ce\bb\13m\e3:\1d\ab\ab\01\0b\03\18\ac*+\d8/v\8aOb\17V\894o\02\e0\bc\bbU\13\f3\c4n\0c\b5\12\89\a8\ed\b1\d0\cc\c7\92\ef\1e\b8\d4Jz\ee\1d\07\baW\8e@\n\d3\db\f2K\93\10o\fb\f1\17\06\c8\dfq\00\d5\a8|\f5o\0f\daX\fc\'\13\d6\0cf\e93\bb\a7\fa\bbL\b2)\8e`\a6\1e\11\d7\84\87)\fcR\95\c9\a3\8eT\0b\1a\85\18\0e\ac\d0\d2\ba\c9\a8\aa\07\83\d8vo\ae\9d\13\e3\ac\1a\1e^\dc\da\dd\a5\d1\c0W\b2\b0b\1fO\8aHKK\b0H~QA\9a\ac\8e\c0\1b\19\d9\a1\d3\d5\d5Ym\cb\da\cd\e1V\a53\16\14{\81\dcw\11{W<\e2\d7\e7\ab\ea\c2\11\10*\cf`Y\82^\f2\c66&\a6\ac\aa\04\b6\19\bb\a5\80Gh\18\f5k\c5Q\ebVU\9d\91\14\96\84\00\06\edy*#\d1\a7\"\df\dd}t\10V\074\a3\e1\8f\dd\d1\81\0c\d11\96\fcS\1aEl\f6\e8\1as\e4\a74=\a7\f4D\fd\0f\15\9eV\f8S\e2(\1dS]\97R]j\97\d9\10bW\8d\b9\03\dba\eb.\f2P\95\10\bf\f5\1a\e8E\a4\c7\cfHN\bcX[\da\dd\a6e\91\15 k\83l\d9\d3qc\ad\e2\e1\17\1f\1eA\11\cd\11\9f\ad(\86\1c\9fH\04\03\f3dc\9b\1b\0b\db\18\beSk\b0\e5\06\9d5\8f\1d\e9\15\16\a2\15G\cb\0f\89\f3\eakJ\91r\e4 \ab\117\bcqxL\db\b8DF\aa\1b\84m\01E\1c_c\c1\c6\d6\15\c7\03\05UI\03\be\9a\9d\16\19\e9\cdkE\de867w\07i\fe\ae\17\12\c1A\16F\a2c\c1VXXr\0e\97\b1\f2\1c\ceg\ab\d1\81\1c\01\dfy\13\f5q\12\8e(\17\a5\ecUA\ce\164\7fa\dc\90\c1\0e\d8\86\12nGV5}$ e\02\c7\e7h\e4\8c\a4\1d%9x\f70\1d\80\ea\01l\b9 \1d\d7\b6\17\84\fa,\f9\f3\b0\99\bb4#aM\17\ac\f8\129\f7G(SN\\_T8h\15\f2\acZ\1e.,\d3\b9u\0b}\7fC`SD[\8aH\18X#\dc\c7\f7\d50\99\cf\19\a96|;m\13&\d2\f9r\8c\89\b4\8e\b2\8f\0e\f1\f9+\15\1f\b8A.\8f\a3\07*r(\a6\0b\f4\c7\bc\dd\18\fa\9a\be\a5O9\bb\c1\86\1e\d6\\\06\97\e4\13\f6\f70\t\19\c2^\9c\d70\f0\fa\d6$\d4\1f\f8_Z\07\14h\e5Iy\8d&/\df\83v\19`\e6\e1\05\10 Qn\c7\nR\bf\e5\cf^\14\1a\85\81\d1\0c\80\da\f1\05o\0e\99\84\d9K\10\f5\d4h\82\14\00\c4O\d6\e4\e3\f4\a0\f5\12\1a+w\ed\01\aa\99i\d9\11\b7\1c\f7\b3\f7\db\14\bc\c5\8a\01\88\14\ee\adt\92\b0\c5\\\f9\af\10,\t\deh\a6\ed|IT\ea\80o\94(\b3\1a$\d4\e4S\b8W\ca:\10U\9a\bfv \\\15\83v\1dC`y;bs\aa\ae\ff^\80\16\11\9e\bd\c8\d1f\f5+\9d\b8\10\b12\cb3W\1b\7fdmAR\c4\bc}`\0d\f4\8e\a2\\\df\15\cc\b6\8ag\dbi\fd\ca\e6=\c3\d8N}\7f\11\df\8awr\c5\0f/\ab\d7/\05\8e\e4.\ff\1b\80\d5\92[\04s\f2\88\ac\8cj>\1d\bfe\16fDBI\d0(\f5\d3V=U\98J\ff\ea\11\a3\a0\03BMA\88\b9W\95\bb\f3\102\ab\1c\e9\e6\02h\d7\cd9ayw\fc\c2@[\ef\16TR\02 yqa\e7-\f9\c9h\cd\15Y\12\86P\9d\99\8e\b5h\a5|[vt\15V[\1d\d2\a6J\e1>\91 Q\fd\15\c5\f6\ddD|\17\0e\1f\a2\1a\ff@M\a7\caD7\92\b1\d0\c9\12J\cbi\f7d\ce\ae\0b\11nXPO\b4\0f\1e;<\ee\c5P\d8\8b<\a7\f1ys?\90\0c\18\c9\c9\f17\day\t\ca\85\f4\c7\c22@=\13\dbB\e9\bf\f6\c2\a8\a9o\ba\0c\9e\b7f\c8\1e\e3\9b\ba\cc+\cfS!&\95p~,R\a0\18\82I\95p\89r\a9\1a\b8\dd&e\f0t\b3\13\9du\88\1a\0f\84u\f7\8c/>\08\e7\87\85\1f\17^\a0{r6\91_\n&\98\06\ec\9f7\19\df\e4\19\96[\f8@\19\d5\84F\05\f0\7f,\14L\eaG\ab\af\c6\00\e1\107\05\d1\8c\99#\10G\dd?EL\a4g\ce\e7$\d5\b4G\8f\d2\19\06\b1\cc\9d\d6\e9R\d8\1f\b7\dd\c3\9fr\a8\148\'\nKE\ee\dby\19,~i\19\c2\86\10Y\d8\a9\11\a2\e3_)\8fF0\0f\8f6q\1az\13\bb\a7\81\1c\b3\ba\a5k\f3\d8\d8^\'\15/\a9\95\ec\9a\e3(bQ\89\8f\ad\e0K\ec\10\17u\ef\e0\f78\0e\9d\e8\0eL\af\9a\ac\13\1by*Y\1a\93-\d8\b0Sr\d6%\e2V\a9\15.UGH\0f\bey\8d\dc\c1\de\b7\81ET\11|\bb\0b\da~\96\8f\15\94\9c\97\8c\cf\08\ba\1b\97/\d6\14\ff\11\a6wv\b0\df\d6rm.\16y\8c\deC\ff\a7Q\f9\91\f3\b2x\f5\bd\be\11\8e\ad\fd\d2\fe?\1c\c2\1c\ec\b7Z\"cd\1c\d8\8adB23\b0\01\17\f0_\15\b5\b5\b6\16F\a2\83\9b\8e\c2Y\01\acY\e6\dd\90\c4+\12\a3\039_\17\04\f6\ce\ac\c2\a3\fc\1a\d4\12\1d\83\9c-L\aci^r\bd\9b\1c\caHCB\17\9c\e3\8a\d6\89T\18\f5\fd\e2\16\08\07i\9b\12\c6\05\ab\bd\0fT\8d\ee/k\f1\0c\d8t\c5\1d\05k\"\ferv\d7\be\8c\"\c1pF*\d1\17\04\bcN\cb(\c5\12\ff\d6Ng\8dk\bb\0d\13\a0\f9}xt;Q\cb$~\d8{\12_|\1eMa\fe\f9)\c9\0d\t\b71\ad\fcA\7fc\18\n\81\cb\94!\d4\d7\a0\c5\'$\ca4\cc\82\13w\cexT\cf\b9\bfgo\0cmC!\ad7\1f\f9q-\dd\a5\94\cc\1fYp\8a\cfMW\f9\18\c7\f4\bd}Q\dd\d6\7fz\f3\a1?>\ac\fa\13\0b\ee/\c9\e8.\be\ff\c3\b8\9c2\fdy\f7\1f\d6$\f3\a0 \bf1f6\fa\16\c2\fd\c7\92\19x\1d\\\1a\1a\cc\'\b8^\fb\ab\01\cblu\14`\e4|{\ae\tS\93\18\c9\bcg\a2\f0]\10\99\a0\94\c5\b0B\eb\1e\f4t\94?j\e7/\1a\e1\e6v\04\'\02\89\e5\\*\dd2\88\1f\f3\14\e7\eb+\9d\85\ce\a0\b7\b0\ee\b0(\a0\7f\c2\10\d8\df\dfaoJ\01Y\b4JNt3\cc\d0\1a\adL\e6\e7%\d5\cd\e0)\a2>\90\8f\d6s\15\f1\d6Q\86QwqM\ee\b4\cb\d9rx)\11\e8W\e9\d6\e8\be\e8{\b0T\ac\8f\84\8du\1b \13!\dfS2\ba\fcY\dd\89\0cj\a4\f7\15\80B\e7\18C(\c8c\aeJnp\ee\e9\92\11fj\d8\'8\0d\0d\06\17\11J\1a\17C\1e\1c\eb!\ad\ec,\a4=k\12tn{\12\9c~\16VNW\bd\f0\1c\fe\88\db\\X\fcA\e3\fe\11#J%b\b4\94\96A_a\8d`6\05\cb\1c\e9\d4\1d\e8)\aa\abg\7f\e7=M\f8\d0\08\17\87\dd\17 \bb!V\b92\b9d\d7\f9sm\12\a5\95\8cf+i#\c2\ea\c1:\f2\c2\ec{\1d\1d\de\d6\1e\89\ba\82\ce\bb4b[\02W\96\17\18\18\dfK\07b5\a5\fc\f6\b4\e2\01\ac\de\12Y\f3dy\d8\9c\88;\94\f1\8776\131\1e\e1\f5\83\c7FJm\fc\dcZ\06\c6\91B\'\18\1a+\03\06\9fnW0\17\af\9e\d1\a7\9bR\13\90\de\d1<\cb}%\1a%\181\1c\a6\92\ea\1e@\e5\a70<\fe\1dH\b7yZ\e3\84\a8\bb\18\00Q\86\c0\c91K\d3\c5\c7\ae\82\9dS\c9\13\cd\b4\a3\cdB\e9\11R\t\a6\17\d1\c8\85\a8\1f\a4\90\1c>\02!\dbt\07\b8\df@:\9eS\19P\0dJ\cb\01\b4\15\f7\05`\19g\fb\e4B\14\a7\n\08\t\9b)\de\f87\b3zR\fc\835\10\d7\dd\0c\a8\91B0\8eY\b8*\b7\939\ef\19\13K\n \0e\02\8d>\e1\f9\ee\f8Ba\bf\14\0f<\08\80>\9b=e\e7\c7X\fa\9b\1a\99\10\e4,\0d\00d\f8\c8n\a5\0c\8e\90\f9\90\8e\1a\ea#\a4\99\e9\f9\d3\8b\b7\a3q@a\da>\15\bb\1cP\e1\ba\94\a9<\f9\82\f4\99\1a\15\ff\10+a\b3\9b\c4\bau\c7\8e\d1 \c3]\bb1\1b\89\1a)\16j\95\c4\d2\0b\0e\e7h\b1b\c1\15\a1{\ba\11\88w\d0\dbo>\1f\87\'\82g\11\9b\92]\1c@\bf\80,\e6c\98>?\d0\d8\1bIu\e4I3\cc3\bdQ\b6Fe\ff\0cG\16\d4]Pn\8f\d6\8f\ca\a7^\05Q\ccp\d2\11S\c9\b3\e3KW\19D\d9\fdnN\ad\e7\83\1c\a9:\f6\82\tyG\03\e1\97%\a5\8a\ec\cf\16\ba\fb\c4h\d4`l\cf\80y\84\ean\f0?\12*\f9\07\0e\874z\e5\9a\f5\d3\10K\1a3\1d\"\949\0bl\90.Q\e2*C\da\08\15\\\17\b5\a9\c7\d5\bc\a6\8b\da\81U\cf\e1\d3\10\b0\12\87\0f\d9\".q\df\90\9cU\e5\02S\81\e6\1dl\0c\14O\8bZL\da\16\de\1d\cf\a8\9a\eb\17\8a\a3\a9\a5\a2{\a3\aex~\b1\a5 \e2\"\13\a9\05\a9\a2j_\d2}\'\97\b5\a2\9a6\9e\1eT\d1 \82\88\7f\db\97\1f\ac\f7N\15\92~\18w\a7\80\ce\06f|yL#\c6\d8\ddt\98\13\f1\0b\01\e4\np-\8f\adk\a3\'\96TZ\1fZ\d6\00P\a2Y$\0c\be\ef\b5\1fx\10\15\19\15E\9a\d9\81\14\1dp\fe\f2\f7\b2\f9\d9\10\14wj{\14\9bC\17\c0\fe[\c6(.{\0d\10\f2C\92\ed\c4\05\f2\cc\ca,\n\0e}+\af\19\c2\9c\0e\be\d07[\no\bd\a1q\ca\"\8c\14\ce\e3>\cbs\f9H\08\8c\97\b4\'\d5\1bp\10\b0\9fdx\ec[\0e\da\ac%T\0cU\f9L\1a\c0\7fP`\f0\af>{\bd\b7\a9\d6\10a\n\153f@\80\f3\bf\cb\95\97,\ee\des\1a\d5\10Rp\cdfRf\ac\efXG\b0d\b9\90\ee\1a\dbY\a4\b8\0e\85#&Gl\f3\b6\fa\a6\8b\15I\ae\b6\93\d8\d0\82\1el#)_\95\85<\11u\b0\8a\1f\f4\1a\9e\fd\ac8\a8\fe\ee\08\94\1b\f7Y\d5\b2)\af\b1\97\bd\93\86\98%\07\10\16,{w\f5\ba%\8e\ac\97\dc\9e\13\1el\a6\11\13\c5X\"+\t}z\bf-\fe\b8\c9y=\1cvj\adN\ef\a0\fda\ccW\cb`\a1\94\97\16\c5\ee\bd\0bY\1a\fe\e7\t\13\t\e7M\dd\12\12:\b1\fcE[]c\a6\dc\84\0e\d8\af\fb\ea\1c\c8\8d0k\afJ\1c\85\b0\d0>\13\f3b\"\17\d4\d7&\bc\f2n\e3\d0&\da\cbu\c2\e8\81\12\86\8c\a4\c6\ea\17\9f\b4\d7)F\89\9d\a7\9c\1dkpP\05\ef\df\18*F\ee\04\a1\17\86\b0\17\89\f3\d9\9d%\b3\e0Tk\8b\9dMy\9e\f3\12tR\f6bo\eb\cd\87xE/|(\97R\1e]\a8^\82\bf\"\0b\d3\c6j\bf\c9\86\12B\18\e4\b9Kh\cc\1b<\0f\9f\88\ff:\d2\0eh\13m)y@z,`\18\98\da\98\91\83\e4\0c\1f$!\943\c8V\b3F\13\e2\13\0e6\1d\d7\18\b6MC)\a0x\8f8\dc\b4\dc\a4\91J\df\13\8a\afk\a8f\'\7fZ`!a\a1\82\aa\cb\1f\a2\bf\ef\b9\eb\852\15M\b4M\b4\9b\bbo\19N\99\8ca\89\d1\8e\aa=\90\a4\f6\e2bY\14\0c\e1\d6\1a\a1\a7\d8\ee\ca\d9\b6+O\82G\10E\9b$^\9br\'~\11\f6\8a\df\b1\03\0c\1a\04I\1d\18I\f5\85\fe\0d\f8;\19[i\d6\14\d0\a0J\13\d4]\9e\cb\a4\f9/\14|\87\ab\10M\01\11RS\c9c\df:\\\e6\b9\f9\0b\ac\1aqg\dat\0f\a1\1c\19/\b0\1e\fb\faoV\15\c1RH*\d9\80\b0\ad%\c0K//\f3\11\114Q\0d\aa\8e4\e7\15\t\cd\12\b2~\ebO\1b\c4\0dq\ee>]\1f\abm\n\0f(2\89\d9\15\9d\a4\8d\8be\17\19\bcW\08\0c (\d4z\11\94:|\12<\f2\f4,Y\0d\e0\cc\d9\b9\f7\1bC\95\96\db\fc\f4\c3\f0\e0=\b3p\e1\c7_\16\03\11\12\16\97]6Z\1a\cb\f5&\819\e6\11\04\e8\1c\f0$\fcV\90\90\de\"\0b5\8f\a3\1c\d0\ec\e3\8c\1d0\df\d9\a6K\82\a2]?\e9\16\da#\83=\b1Y\7f\e1\eb\a2\ceN\b12T\12\\98/\b5\c2\cbhy\d1}\e4N\84S\1d\e3-`\bf]5\d6S\94\a7dPr\03v\17\1c\8b\e6e\b1*x\a9v\ec\b6\a6\8e\cf\c4\12\faD\d7o\b5\aa&\0f\f1\13\8b\d7}\b2\07\1ebj\df\bf*\"R?\'Co\acd(\06\18N\88\7f\99\88N\dbe\1f\9c\f2\89P 8\13J\0d\cc(tJ\c5oe\93\ea\0f\b43\c0\1e;\a4\t\87\f6\a1jY\84\0f\"s\f6\c2\99\18\96\b6\07l\f8\e7\ee\ad6\d9\b4\f5\915\ae\13VW\0c\e0\f3?~I$\f5\ba\"\83\"}\1fE\ac\d6L\f6\ffd\d4\e9\90\95\e8h\e80\19\d1\89x=\f8\ff\83C\eesD\edS \'\14t\a1\93\97\c6\cc\9c\cf\f1\8f\03\f1\0fM\1f\10R\02\b9%\a4Ga\7f\1c\b3\05\e8\7f\ae\cb\19\0f5\c7\b7\e9\d2M\cc\16\\\d1\ec\ff\f1\a2\14\d9\90\d2_!\0f\0b=\12\b0\da#3[\82\10\c1\e7P\99hK\abaP\b3*\06\85+j\1ag\b9@\14\ba\a2\"N@\\Ukj\bc!\15S\94\00\dd\94\e8N\0b\cdID\bc\ee\c9\e7\10Q\ed\00\c8\87\da\17\12H\a9\d3\c6Jv\0c\1b\da\bd\00\a0lHF\dbl\87\dck\d5\91\a3\15\afd\cdL\bd\06\05I\8a\9f\e3\ef\dd\a7O\11\b1:\e2z\c8\n\08\a8C\ff8\e6/\a6\b2\1b\f4.\e8\fb9\a29Si\ff\93\1e\f3\84(\16]\f2\ec/\fb\b4\c7u\87\ff\0f\b2\f5\03\ba\11.\eaG\e6\91!\d9\"?\ff\7f\b6\"\d3\\\1c\f2T\06\85A\81z\b5e\ff\ff\91\e8\a8\b0\16\f5C87\01\01b\c4\b723\db\86\ed&\12\ee\9f\f3\f1\01h6:Y\84\eb\91\a4\15\0b\1d\8b\19\f6\'\9b\b9^\fb\e0i\bctP\11<\17\d6z^\86\e2\fa~/\e7\87c]@t\96\12V\91\fd\d6\d0\f7\97\e5q\d98b\cd\86\bd\1d\ab\da\cax\0d\93y\84\c1z-\e8=\d2\ca\17V\15o-qBa\d0\9a\c8\8a\861\a8\08\13\"\"\18\afNjhM\91\da\aa=O@t\1e\e8\b4y\f2>\88S\a4\da\ae\88d?\00]\18\87]a(\ffl\dc\e9\aeXmP\cc\99}\13\a4\95h\0de\ae`\a9\e4\8dH\1az\\/\1f\83D\ed=\b7\be\b3\ba\83q\a0\aea\b0\f2\186\9d\8a1,2\f6.6\c1\e6\be\e7Y\f5\13\f0aw\82\13\1d\bd\e4\89\9b\d7\97?\f6\ee\1fZN,5\a9}\ca\83\a1\af\df\df2\f8\8b\19\15\a5V\f7 \fe\a1\9c\e7\f2\b2L\c2\f9o\14\aa\1d\12\f9\b31\1bJ\b9(\8fp\9b\94Y\10\dd\95\b6\c1\ec\b5^C\f5\0d\e5\80\c5\ed(\1aJ\de^\01W^\e55\c4\a4\1dg\04\8b\ed\14\d5\b1\18\01\ac~\b7\c4i\1d~R\d0\08\be\10\"\b6Z\9by\97%\a1\0f/0\b7\b3\a7\c9\1a\81^\15Ia\ac\b7M\d9X\f3\f8\c2\1fn\15\9bKD\07\81#\c6\d7\ad\e0\f5\935\e6$\11+\ac\d3>\9b\05=YI4V\86\"=n\1b\bc\89\dc\cb\15\9e\fd\e0m\c3\11\05\82\ca\f1\15c\a1\e3o\11\18\fe\b3$iA7\9b;\8e\11\d1\9b\d2\7f\b5Yc\86\07u5%\c5\c5\16\1c\0e\e3\0e3\91\14\e9\d1\d2\90\f7P7\9ex\16\0b\1c?\8f\dav\batu\0d\c6@,\18\fa\11x\c61\e5\90$\f7\ed\bbH\a3g\e0Y\c3\1c-\05[\b7@\1d,\8b\c9\d3\b5\1fM\ae\02\17$\04|_\cd}Vo\d4\0f+\e6p\8bh\12\06m\c6\98H\c9\f0~\ed\b2\11=N\12t\1d\9f\bd\9e\e0\06\a1\c0\98W\c2\a7\fd\a4\0e\90\17\e6\caKM\d2\80\00Gy\9b\ec\caP\a5\d9\12\a2DyH\1d\ce\00\d8\8e\c5\adD\81\08)\1e\82\d0-m\17\d83\13?\d1W\9d\9a\d3 \18\ce\a6$$yF\f6\a8e\a7\acJ\15vM\13}\a4:\a0\8e=\bdto\a5zw\88V\e2\1edP\95\e6>1d]\8c\b7\fb\c5\06\12\b5\18\b7\a6\aa\eb\cb\8d\b6Jp,\96\d1k\0e\c4\13W\a4\aa\12\13\16$\11\1aG\f0\e8\12\17\a0\1f\df\e9\ee\0e\dcD\83\da\14l\f3SB\dfL\19\80!\bf\d8|\9d\02\e2C#)Ch\7f=\143\812z\fd}hN6\1cT\cf\b921\10\b8\ceP\90\95\c9@J\bd\c6\b9K)Q\e8\19\c6\0b\a7\a6w\d43\081\d2\c7o\87\da\b9\14k\t\ec\1e\c6v)\a0\8d\0e\d3\bf\d2\ae\94\10\df\db\acd\a3WB\00I\17\b8\ff\1d~\87\1a\19\e3#\ea\b5\df\01\cd\a0\12`\99\b119\15\ae\b5\1c\88\91L\cepMu\e6\ad\'\8e\fa\10\e2U\94\a6\b5\ad\e3\1a\af\bbpI\0c}*\1b\e8wC\85\c4W\e9{\f2b\8d\07=\97\bb\15\87\f95\04jy\87\c9\8e\b5\n\06d\dfb\11q\c2\bc\06\10\8f\a5u\e4\88w\d6le\d1\1b\'5\cak\a6\a5\b7\f7\e9\d3\92\ab\f0\1dA\16\1f\c4\a1\bc\1e\1e\c6_\ee\0f\0fV\8d\b1\cd\11e\d3\02adc\a3\ff\16\b3\b1\89HO|\1cQ\dc\9bMP\1c\e92\df(\8e\d4\06\d9\c9\16\0e}Iqs\e3 \8f\b2 \d8v\05\14;\12|.\0f\82\85\05\9b~\ea\cdY\f1;S+\1d\ca\be\a5\01\9e7\af\cb\ee\d7G\f4/\dcU\17\a1\98\844K\f9X\t\bf\acl\c3\8c\16\ab\12\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 9600) "\80\05\00\00\ac\02\00\00")
+ (data (i32.const 9608) "`\14\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\10\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\14\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\19\00\00\00\00\00\00\00\00\00\00\00\00\00\00@\1f\00\00\00\00\00\00\00\00\00\00\00\00\00\00\88\13\00\00\00\00\00\00\00\00\00\00\00\00\00\00j\18\00\00\00\00\00\00\00\00\00\00\00\00\00\80\84\1e\00\00\00\00\00\00\00\00\00\00\00\00\00\d0\12\13\00\00\00\00\00\00\00\00\00\00\00\00\00\84\d7\17\00\00\00\00\00\00\00\00\00\00\00\00\00e\cd\1d\00\00\00\00\00\00\00\00\00\00\00\00 _\a0\12\00\00\00\00\00\00\00\00\00\00\00\00\e8vH\17\00\00\00\00\00\00\00\00\00\00\00\00\a2\94\1a\1d\00\00\00\00\00\00\00\00\00\00\00@\e5\9c0\12\00\00\00\00\00\00\00\00\00\00\00\90\1e\c4\bc\16\00\00\00\00\00\00\00\00\00\00\004&\f5k\1c\00\00\00\00\00\00\00\00\00\00\80\e07y\c3\11\00\00\00\00\00\00\00\00\00\00\a0\d8\85W4\16\00\00\00\00\00\00\00\00\00\00\c8Ngm\c1\1b\00\00\00\00\00\00\00\00\00\00=\91`\e4X\11\00\00\00\00\00\00\00\00\00@\8c\b5x\1d\af\15\00\00\00\00\00\00\00\00\00P\ef\e2\d6\e4\1a\1b\00\00\00\00\00\00\00\00\00\92\d5M\06\cf\f0\10\00\00\00\00\00\00\00\00\80\f6J\e1\c7\02-\15\00\00\00\00\00\00\00\00 \b4\9d\d9yCx\1a\00\00\00\00\00\00\00\00\94\90\02(,*\8b\10\00\00\00\00\00\00\00\00\b94\032\b7\f4\ad\14\00\00\00\00\00\00\00@\e7\01\84\fe\e4q\d9\19\00\00\00\00\00\00\00\880\81\12\1f/\e7\'\10\00\00\00\00\00\00\00\aa|!\d7\e6\fa\e01\14\00\00\00\00\00\00\80\d4\db\e9\8c\a09Y>\19\00\00\00\00\00\00\a0\c9R$\b0\08\88\ef\8d\1f\00\00\00\00\00\00\04\be\b3\16n\05\b5\b5\b8\13\00\00\00\00\00\00\85\ad`\9c\c9F\"\e3\a6\18\00\00\00\00\00@\e6\d8x\03|\d8\ea\9b\d0\1e\00\00\00\00\00\e8\8f\87+\82M\c7raB\13\00\00\00\00\00\e2si\b6\e2 y\cf\f9\12\18\00\00\00\00\80\da\d0\03d\1biWC\b8\17\1e\00\00\00\00\90\88b\82\1e\b1\a1\16*\d3\ce\12\00\00\00\00\b4*\fb\"f\1dJ\9c\f4\87\82\17\00\00\00\00a\f5\b9\ab\bf\a4\\\c3\f1)c\1d\00\00\00\a0\\9T\cb\f7\e6\19\1a7\fa]\12\00\00\00\c8\b3G)\be\b5`\a0\e0\c4x\f5\16\00\00\00\ba\a0\99\b3-\e3x\c8\18\f6\d6\b2\1c\00\00@t\04@\90\fc\8dK}\cfY\c6\ef\11\00\00P\91\05P\b4{q\9e\\C\f0\b7k\16\00\00\a4\f5\06d\a1\da\0d\c63T\ec\a5\06\1c\00\80\86Y\84\de\a4\a8\c8[\a0\b4\b3\'\84\11\00 \e8o%\16\ce\d2\bar\c8\a1\a01\e5\15\00(\e2\cb\ae\9b\81\87i\8f:\ca\08~^\1b\00Ym?M\01\b1\f4\a1\99d~\c5\0e\1b\11@\afH\8f\a0A\ddq\n\c0\fd\ddv\d2a\15\10\db\1a\b3\08\92T\0e\0d0}\95\14G\ba\1a\ea\c8\f0oE\db\f4(\08>n\ddll\b4\10$\fb\ec\cb\16\1223\8a\cd\c9\14\88\87\e1\14\ed9\e8~\9c\96\fe\bf\ec@\fc\19j\e9\19\1a4$Q\cf!\1e\ff\f7\93\a8=P\e21P\10Am%C\aa\e5\fe\f5\b8\12M\e4Z>d\14\92\c8\ee\d3\14\9f~3gW`\9d\f1M}\19\b6z\ea\08\daF^\00Am\b8\04n\a1\dc\1f\b2\8c\92EH\ec:\a0HD\f3\c2\e4\e4\e9\13\de/\f7VZ\a7I\c8Z\15\b0\f3\1d^\e4\18\d6\fb\b4\ec0\11\\z\b1\1a\9cp\a5u\1d\1fe\1d\f1\93\be\8ay\ec\ae\90af\87ir\13\bfd\ed8n\ed\97\a7\da\f4\f9?\e9\03O\18\ef\bd(\c7\c9\e8}Q\11r\f8\8f\e3\c4b\1e\b5vy\1c~\b1\ee\d2JG\fb9\0e\bb\fd\12b\d4\97\a3\dd]\aa\87\1d\19z\c8\d1)\bd\17{\c9}\0cU\f5\94\e9d\9f\98:Ft\ac\1d\ed\9d\ce\'U\19\fd\11\9fc\9f\e4\ab\c8\8b\12hE\c2q\aa_|\d6\86<\c7\dd\d6\ba.\17\c2\d62\0e\95w\1b\8c\a8\0b9\95\8ci\fa\1c9\c6\df(\bd*\91WI\a7C\dd\f7\81\1c\12\c8\b7\17sluu\ad\1b\91\94\d4u\a2\a3\16\ba\a5\dd\8f\c7\d2\d2\98b\b5\b9I\13\8bL\1c\94\87\ea\b9\bc\c3\83\9f]\11\14\0e\ec\d6\af\11y)e\e8\ab\b4d\07\b5\15\99\11\a7\cc\1b\16\d7s~\e2\d6\e1=I\"[\ff\d5\d0\bf\a2\1bf\08\8fM&\ad\c6m\f5\98\bf\85\e2\b7E\11\80\ca\f2\e0oX8\c92\7f/\'\db%\97\15 }/\d9\8bn\86{\ff^\fb\f0Q\ef\fc\1a4\ae\bdg\17\054\ad_\1b\9d6\93\15\de\10\c1\19\adA]\06\81\987bD\04\f8\9a\15\152`\18\92\f4G\a1~\c5zU\05\b6\01[\1a\1f<O\db\f8\cc$o\bblU\c3\11\e1x\10\'\0b#\127\00\eeJ\ea\c7*4V\19\97\14\f0\cd\ab\d6D\80\a9\dd\e4y5\c1\ab\df\bc\19\b6`+\06+\f0\89\n/l\c1X\cb\0b\16\10\e48\b6\c75l,\cd:\c7\f1.\be\8e\1b\14\1d\c7\a39C\87w\80\t9\ae\bamr\"\19\e4\b8\0c\08\14i\95\e0K\c7Y)\t\0fk\1f\8e\f3\07\85\aca]l\8f\1c\d8\b9e\e9\a2\13r\f0I\a6\17\batG\b3#N(\bf\a3\8b\18\8fl\dc\8f\9d\e8Q\19\a0\aca\f2\ae\8c\ae\1e\d9\c3\e9yb1\d3\0f\e4\0b}W\ed\17-\13\cf4d\18\bb\fd\c7\13\ddN\\\ad\e8]\f8\17\03B}\de)\fd\b9X\94b\b3\d8bu\f6\1dBI\0e+:>t\b7\9c\1dp\c7]\t\ba\12\92\db\d1\b5\c8MQ\e5\03%L9\b5\8bh\17wRF\e3:\a1\a5\deD.\9f\87\a2\aeB\1d\8a\f3\0b\ce\c4\84\'\0b\eb|\c3\94%\adI\12m\f0\8e\01\f6e\f1\cd%\\\f4\f9n\18\dc\16\88\ac\f2\81s\bfmA/sq\b8\8a\1e\93\1c\d5\ab71\a8\97\e4\88\fd\e7F\b3\16\f3\db\11\ca\96\85=\92\bd\1d\eb\fc\a1\18`\dc\efR\16}\fc\e6\cc\f6,\e5%|\ca\1ex\d3\ab\e7\1b\ce]\10@\1a<\af\97\8d>\13+d\cbp\11Bu\14\d0 \0b\9b\fd0\0e\d85=\fe\cc\15\92\92\19\04\e9\cd\01=\bd\11N\83\cc=@\1b\9b\fb\8f\a2\b1 !F\16\cb\10\d2\9f&\08\11\82\fa3\0b\deh\a9\d7\db\fd\94\c6G0J\15#\f9\00\8e\15\c3\93\cdR=:\b8Y\bc\9c\1a\b6\9b\c0x\edY|\c0Sf$\13\b8\f5\a1\10\a3\c2\f0\d6hp\9b\b0\e8\7f\ed\17&s\ca\14L\f3\ac\0c\83L\c2\dc\e2\df\e8\9d\ef\0f\fd\19\0f\18\ec\e7\d1o\f9\c9\ed\8b\b1\c2\f5)>\10\13\1e\e7a\c6\cbw<\e9\ee]3s\b4M\14\98\e5`\fa\b7\be\95\8b\a3j5\00\90!a\19\fe\1e\f9\f8e.{nL\c5B\00\f4i\b9\1f_\b3\9b\bb\ff\fc\0c\c5O\bb)\808\e2\d3\137\a0\82\aa?<P\b6#*4\a0\c6\da\c8\18DH#\95OK\e4\a3\ac4AHx\11\fb\1e+\0d6\bd\11\afn\e6\eb\c0(-\eb\ea\\\13u\90\83,\d6Z\n\e0&\f1r\f8\a5%4\18\93t\a4\b7\8b\f1\0c\98p\ad\8fv\0f/A\1e\dc\c8\c6R\f7\16\08_f\cc\19\aai\bd\e8\12\13{x\'\b5\1c\ca\f6\7f?\a0\14\c4\ec\a2\17\d7\99Vq\e2\a3|\f4_O\c8\19\f5\a7\8b\1d& \d6\86m\e6\cd\f8\9b1\1d0\f9Hw\120\a8\8b\e8\08`\01\f7\02~$|7\1b\15\17<\92\ae\"\0b\b8\c1\b4\83\9d-[\05b\da\1ce\1b\ad\f5\06\13\f9Pr\82\fcXC}\08\12?b\18\b3\c8W7\e5\0e\a3;/\94\9c\8a\16\cfz\de\df\ba-\85\9e\d2\8b\n;\b9C-\1c\c1\0c\eb\cb\94<\13\a3c\97\e6\c4SJ\9c\11\f1\cf\e5\fe\b9\0b\d8\8b<= \b6\e8\\\03\16\eeC\9f~\a8\0e\ce\ae\8bL\a8\e3\"4\84\1bu\8a#O)\c9@M\d7/I\ce\95\a02\11\12m\ec\a2s\fb\90 \cd{\dbA\bbH\7f\15V\88\a7\8bP:\b5h\c0ZR\12\ea\1a\df\1a6\b5HWrDqA\b8xsK\d2p\cb\10\83\e2\1a\ed\8e\95\cdQ\e6VP\de\06M\fe\14$\9ba\a8\f2\fa@\e6\9fl\e4\95H\e0=\1a\f7\00=\a9\d7\9c\e8\ef\e3\c3\ae]-\acf\104A\8c\93\0d\c4\e2\eb\dct\1a\b58W\80\14\81Qo\f8\10u\db&\14\12a\e2\06m\a0\19\f1\92E\9b*)I\98L\ab|M$D\04\10\ad\f7\16Bus[\be\1f\d6\db`-U\05\14\98\b5\9c\92RP\f2\ad\a7\cb\12\b9x\aa\06\19\ff\e2C7g\e4n\99\91~W\e7\16UH\1f\dfm\8a\82\c0N\e5\ff\1a\af\96P.5\8d\13W\t-\a3p\a2\de\bf\e1Z\bc\e4y\82p\18\adK\f8\cb\0cK\d6/\9aq\eb]\18\a3\8c\1eL/{\ff\e7\ee\e5]\00\'\b3:\ef\e5\17\13\1f\fbY\ff\a1j_u\c0\f0_\tk\df\dd\17\e7y0\7fJE\b7\92\f0\ec\b7\cbEW\d5\1d0L~\8fN\8b\b2[\16\f4R\9f\8bV\a5\12<\df]3\".\9f\f2\1b\b1\'\87.\acN\17\0bW5\c0\aa\f9F\efb\9d\f1(:W\"\1dgV!\b8\n\\\8c\d5]\02\97Y\84v5\12\01\ac)f\0ds\efJ\f5\c2\fco%\d4\c2\16\01\17\b4\bf\d0O\ab\9d\b2\f3\fb\cb.\89s\1c`\8e\d0w\e2\11\8b\a2Ox}?\bd5\c8\11\f9\b1\c4\15[\d6-\8bc\d6\\\8f,C:\16w\de5\db\f1K\f9m\fc\0b4\b3\f7\d3\c8\1b\n\ab\01)w\cf\bb\c4}\87\00\d0z\84]\11\cd\15B\f3T\c3\ea5]\a9\00\84\99\e5\b4\15@\9b\120*te\83\b4\d3\00\e5\ff\1e\"\1b\08\a1\0b^\9ah\1f\d2P\84 \ef_S\f5\10J\89\8e\f5\c0B\a7\06e\a5\e8\ea7\a82\15\9d+\f22q\13QH\be\ce\a2\e5ER\7f\1aB[\d7\bf&\ac2\ed6\c1\85\afk\93\8f\10\122\cdo0W\7f\a8\841g\9bFx\b3\14\97~\c0\8b\fc,\9f\d2\e5\fd@BXV\e0\19\1eOX\d7\1d|\a3\a3\af\9eh)\f75,\10\e6b.M%[\8c\8c[\c6\c2\f3tC7\14\9f\fby\a0\eeq\afo\f2w\b30R\14E\19\87z\98HjN\9b\0b\efU\e0\bcfY\96\1f\94L_m\02\11Ag\b55\0c6\e0\f7\bd\13\ba\1f\b7\08CU\11\c1\"C\8fC\d8u\ad\18\a8\e7\e4\ca\93\aaUq\eb\13sTN\d3\d8\1e\c9\10\cf^\9c\8a\d5&s\ec\c7\f4\10\84G\13\fb\d4\82vC\ed\8a\f0\8f\e7\f91\15e\19\18:\8a#T\94\a8\ad\ecsax~Z\be\1f\1ed6\96\b4\\\89\ecs\e8<\0b\8f\f8\d6\d3\12\fd\c3\bb\e1\b3\ab\e7\90\"\0c\ce\b2\b6\cc\88\17\fd\b4*\da\a0\96!5+\8f\81_\e4\ffj\1d\1e\b1Z\88$\fe4\01{\f9\b0\bb\ee\dfb\12e]q\aa\ad=\82\c1\d97\9dj\ea\97\fb\16\bf\b4\0d\15\19\cd\e21\d0\85D\05\e5}\ba\1c\f7\90(\ad/\c0-\1f\a2\d3J#\af\8e\f4\115\b5r\98;0\f9\a6\8a\88\1d\ecZ\b2q\16\82b\8f~J|\b7P\ad\ea$\a7\f1\1e\0e\1c\91\9d\19\8f\ae\adrR\ac\12w\08W\d3\88\11\f6\04\e02\1aY\0fgW\d7\94\ca,\08\eb\153\06\98\bf`/\d3@-\0d:\fd7\cae\1b\e0\03\bfw\9c\fd\83H<HD\feb\9e\1f\11\d8\c4\ae\95\03\fd\a4ZKZ\d5\bd\fb\85g\15\0ev\1a{D<N1\de\b0J\adzg\c1\1a\c9\89\f0\cc\aa\e5\d0\de\8a\aeN\ac\ac\e0\b8\10;\ac,\80\15\1f\85\96-Zb\d7\d7\18\e7\14J\d77\e0\daf&\fc\b8\f0:\cd\0d\df \1a\8e\e6\"\ccH\00\98\9ds\d6D\a0h\8bT\102\a0+\ffZ\00\fe\84\10\0cV\c8B\aei\14>\88\f6\beq\80=\a6\14\8fkz\d3\19\84\19N*\b4.\8e\e0\cc\cf\d9r\06YH \e5\1fp\9a0\ddX\0c\e0!\c8\07\a47-4\ef\13\0d\c1|\14o\0fX*\ba\t\8d\858\01\eb\18P\f1\9b\d9J\13\ee\b4(L\f0\a6\86\c1%\1f\d2v\01\c8\0e\cc\14q\99/V(\f4\98w\13\86\d4\01z\12\ffY\cd\7f\bbk21\7fU\18\a8I\82\18\d7~\b0\c0_\aa\06\7f\fd\dej\1e\tnQoFOn\d8{*do^\cb\02\13\8b\c9%\0b\18\e3\89\ce\1a5=\0b6~\c3\17\ee;\ef\0d\de[,\82a\82\0c\8e\c3]\b4\1du\85\b5\c8j\b9[\f1|\d1\c78\9a\ba\90\12\d2\e6\e2z\c5\a7\b2-\dc\c5\f9\c6@\e94\17\86\a0\9b\d9\b6Q\1f9S7\b8\f8\90#\02\1dTD\01H\12\93\b3\03\94\"s\9b:V!\12i\95\01\da\d6w\a0\049\ebOB\c9\ab\a9\16\c3\fa\81\90\cc\95\c8E\07\e6\e3\92\bb\16T\1c\ba<Q\da\9f]\9d\8b\c4o\ce;5\8e\b4\11\e8\8b\e5\d0\07\b5\84\ae\b5\0b\c2\8a\c2\b1!\16\e3\ee\1e\c5I\e2%\1a\a3\8er-3\1e\aa\1bMU3\1bn\adW\f0%\99g\fc\dfRJ\11\a1*\00\a2\c9\98mlo\7f\81\fb\97\e7\9c\15I5\80\n\fc\fe\88GK\dfa\fa}!\04\1bN!\90\86]\9f\b5\0c\8f+}\bc\ee\94\e2\10\a1)4\e84\07\e3\cfrv\9ck*:\1b\15\n4A\"\02\c9\db\83\0f\94\83\06\b5\08b\1a\86\c0hU\a1]i\b2\89<\12$qE}\10\a7\f0\c2\aa\t\b5\03\1f\ac\cb\16m\cd\96\9c\14\d1\acs\15L\a2\c4&\97~\\\c8\80\bc\c3\19\03Lh\8do\e5:x\1e\cf9}\d0U\1a\10\03_\c2p\cb\9eI\16\e6B\88\9cD\eb \14\c4\f6\f2L~\06\dc\9b\9fS\aa\c3\15&)\19v\b4/\e0\1d\08\d3\82\87\e8\944\9bos\1f\c9\d0\1d\ac\12\e5\c3\b1T\11\dd\00\c1%\a8\13\fcD%WW\de4\de\a9U\14A1/\92\18;\96\ee,\ed\15\c2U\14kY\91\fd\ba\b6\1e\e5\1d\15<\b4M\99\b5\ec\e2\d7z\de42\13^e\1aK!\a1\ff\e2\a7\db\8d\19\16\c2\fe\17\b6\fe\e0\9di\89\bf\db\91R\f1\9f\9br\fe\1d1\9f\ac\02\e2\b5W)\9b\d3\f6C\a1\07\bf\12\fe\c6W\83Z\a3\ad\f3\81\88\f4\94\89\c9n\17\bd\b8-$1\0c\99p\a2\aa1\fa\eb{J\1dv\93\9c\b6\9e\a7_\86\a5\n_|s\8dN\12T\b8Cd\86\91\f7\e7N\cdv[\d00\e2\16i\a6T\fd\e7u\f5\a1\a2\80Tr\04\bd\9a\1c\01\e8T\fe\b0i9\a5e\d0t\c7\"\b6\e0\11\02\"\ea=\1d\c4\87\0e\7f\04Ry\ab\e3X\16\82\aad\8d$\b5)\d2\9e\85\a6W\96\1c\ef\1b\91\ea^\d86\11ZC\83\13\c8\f6\ddqu\116\a5v\8e\84\950\14d\18ztU\ce\d2\15\83N\14\b2\e5\ba<\19}\9e\98\d1\ea\81G\1b\12\b1L\8f\cf\f4\c5/\0ec\ff\c22\b1\0c\11V\dd\1fs\03r\b7\bb\d1;\bfs\7f\ddO\15\ac\d4\e7O\84N\a5*\c6\n\afP\df\d4\a3\1a\eb\e4\f0\b1\12Q\a7\da\bbfm\92\0be\a6\10&\1em^W%Q\d1j\c0\08wN\fe\cf\14\b0e\086\adn\a5\85\85\f0\ca\14\e2\fd\03\1a\8e?\c5A,e\87sS\d6\feL\ad~B\10q\8f6Rw>iP\e8\8b>\a0X\1eS\14N3\c4&\15\8e\83d\e2.N\c8\ee\e5g\19\"@up\9aq\a4\fd\9a\baazj\df\c1\1f\15HI\86\00\c7\86\de\a0\14}\8c\a2+\d9\13\1a\9a\db\a7\c0x(\16\c9Y\9c/\8bv\cf\18\a1\80\d2\d1\f0\96\b2[;p\83\fb-T\03\1fd\90#\83V\9eO\19%&2\bd\9c\14b\13~t\ec#\ec\85\a3_\ae\af~\ec\c3\99:\18\9d\91\e7,gg\8c\f7\99[\9e\e74@I\1e\02\bb\10|\a0\c0\b7:@\f9\c2\10!\c8\ed\12\c3\e9\14\9b\c8\b0eI\90\b7\f3T):\a9\173$\da\c1\fa\1c\bf[t\a50\aa\b3\88\93\1d\a0V(\b9\1crW\b9hg^Jp5|\12Hlr\e7\a3N\ad\e7B\01\f6\\\ccB\1b\17Z\07O\e1L\a2\98\a1\93\813t\7f\13\e2\1c\98d\d1\0cpe\ffD\fc0\a0\a8/L\0d\12\be\bd\05\10\cc>?V;=\c8\92;\9f\90\16.-\07\14\7f\0e\cf+\8aLzw\n\c74\1c=|\84l\0fia[\d6o\ac\8af\fc\a0\11L\9b\a5GS\c39\f2\cb\8bW-\80;\t\16\1f\02\8f\19(4\c8\ee\ben\ad8`\8a\8b\1bSa\f9\0f\99 =U7el#|67\11\a8\b9\f7S\bfh\8c*\85~G,\1b\04\85\15\12\a8\f5(\ef\82/u&^Y\f7!E\e6\1a\0b\89\99y\d5\b1=\t\d8\da\97:5\eb\cf\10N\eb\ff\d7J\1e\8d\0b\8e\d1=\89\02\e6\03\15\"\e6\ff\8d\ddep\8e\f1E\8d+\83\dfD\1a\d5\ef\bfx\aa?\06\f9\b6K8\fb\b1\0bk\10\ca\eb\ef\16\95\cfG\b7\a4^\06z\9e\ce\85\14\bd\e6\ab\\z\c3\19\e5M\f6\87\18FB\a7\196p\eby,\1a0\af\f0\f9T\cfk\89\08\10CLf\98\b7 \fc\dal8*\c3\c6\ab\n\14T\df\7f~\e5(\bb\11\88\c6\f4s\b8V\0d\19*\d7\1f\de\1e\f3)\16*\f8\f1\90f\acP\1fz\e6\d3J\f37\daM\1a;\97\1a\c0k\92\13\19\e0\88\1d\f0\c5P\e1\e0\t=!\b0\06w\18\1f\18\eb$l\f7\a4\19YL\8c)\\\c8\94\1e\13\ef\12\97\a3\1a\07\b0\b7\af\f7\999\fd\1c\13\d8\aa\d7|L\e1\08\9c\a5\9bu\00\88<\e4\17\8e\95\0d\9c\9f\19\0b\03\8f\02\93\00\aaK\dd\1dy}\88\c1\03\f0\e6a\99\e1[@JO\aa\12\d7\9c\ea\b1\04\ac`\ba\ff\d9r\d0\1c\e3T\17\0dDe\de\05\d7\f8\a8\7f\90\8f\04\e4\1b*\1d\88J\ff\aac\86\9b\c9O\ba\d9\82nQ:\12*\1d\bf\95\fcg\02\bc\e3(\90#\ca\e5\c8\16t\e4.\bb\fb\01\03\ab\1c3t\ac<\1f{\1c\c9N\fdT=\e1\e1\ea\f1\9f\c8\eb\85\f3\cc\11{\a2<\aa\8cY\9ae\ee\c7\bafg0@\16\1a\cb\cb\d4\ef\ef\00\ff\e9yi@\81<\d0\1b\f0^\ff\e4\f5\95`?2\ecA\c8\d0%b\11\ac6?^s\bb8\cf>gR\faD\af\ba\15W\04\cf5P\ea\06\83\0e\01\e78\16[)\1b\b6b\a1!rR\e4\11\a9`\90\e3\ed\d8\f9\10d\bb\t\aa\0eg]V\d3xt\\)O8\15=*\8cT\d2\c0\f4+\08\97\91\b3\f3b\86\1af\9a\d7t\83\f8x\1be\fe:P\d8\fd\93\10\00\81\0dR\a46Wb\fe\bdIdN\fd\b8\14@\e1\90fM\04\ed\fa}-\\\fd\a1<\e7\19\c8\8c\1a`\b0\"\d4\bcn\9cY>\e5\850\10\fa/!x\\+\tl\8a\03\f0\8d^\a7<\14\f8{)\963v\0b\07m\04l16\d1K\19\f6\da\b3{\c0S\ceH\88\05\c7\bd\83\c5\9e\1f\dahPMX\f4\80-uc\9cVr;\c3\13\10\83\a4`n1\e1xR|C\ecN\n\b4\18\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 17800) "\88%\00\00\8c\02\00\00")
+ (data (i32.const 17808) "\04\00\00\00t\00r\00u\00e\00")
+ (data (i32.const 17824) "\05\00\00\00f\00a\00l\00s\00e\00")
+ (data (i32.const 17840) "\08\00\00\00x\001\00.\005\00t\00r\00u\00e\00")
+ (data (i32.const 17864) "\01\00\00\00u\00")
+ (data (i32.const 17872) "(\00\00\00\00\00\00\00\01\00\00\00\n\00\00\00d\00\00\00\e8\03\00\00\10\'\00\00\a0\86\01\00@B\0f\00\80\96\98\00\00\e1\f5\05\00\ca\9a;\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 17936) "\d0E\00\00\n\00\00\00")
+ (data (i32.const 17944) "\90\01\00\00\00\00\00\000\000\000\001\000\002\000\003\000\004\000\005\000\006\000\007\000\008\000\009\001\000\001\001\001\002\001\003\001\004\001\005\001\006\001\007\001\008\001\009\002\000\002\001\002\002\002\003\002\004\002\005\002\006\002\007\002\008\002\009\003\000\003\001\003\002\003\003\003\004\003\005\003\006\003\007\003\008\003\009\004\000\004\001\004\002\004\003\004\004\004\005\004\006\004\007\004\008\004\009\005\000\005\001\005\002\005\003\005\004\005\005\005\006\005\007\005\008\005\009\006\000\006\001\006\002\006\003\006\004\006\005\006\006\006\007\006\008\006\009\007\000\007\001\007\002\007\003\007\004\007\005\007\006\007\007\007\008\007\009\008\000\008\001\008\002\008\003\008\004\008\005\008\006\008\007\008\008\008\009\009\000\009\001\009\002\009\003\009\004\009\005\009\006\009\007\009\008\009\009\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 18456) "\18F\00\00d\00\00\00")
+ (data (i32.const 18464) "\15\00\00\00u\001\008\004\004\006\007\004\004\000\007\003\007\000\009\005\005\001\006\001\005\00")
+ (data (i32.const 18512) "`\15\00\00\00\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00 \9a\99\99\99\99\99\99\99\99\99\99\99\99\99\99\19\15\aeG\e1z\14\aeG\e1z\14\aeG\e1z\14\de$\06\81\95C\8bl\e7\fb\a9\f1\d2Mb\10\96\d4\th\"lxz\a5,C\1c\eb\e26\1a\abCn\86\1b\f0\f9a\84\f0h\e3\88\b5\f8\14\"6X8I\f3\c7\b46\8d\ed\b5\a0\f7\c6\10j#\8d\c0\0eR\a6\87WH\af\bc\9a\f2\d7\1a\88O\d7f\a5A\b8\9f\df9\8c0\e2\8ey\15\07\a6\12\1fQ\01-\e6\b2\94\d6&\e8\0b.\11\a4\tQ\cb\81h\ae\d6\b7\ba\bd\d7\d9\df|\1b\ea:\a7\a24\ed\f1\de_\95dy\e1\7f\fd\15\bb\c8\85\e8\f6\f0\'\7f\19\11\ea-\81\99\97\11\f8\0d\d6@\be\b4\0ce\c2\81vIh\c2%\1c\93q\de3\98\90p\ea\01\9b+\a1\86\9b\84\16C\c1~)\e0\a6\f3!\9b\15V\e7\9e\af\03\12751\0f\cd\d7\85i+\bc\89\d8\97\b2\d2\1c\f9\90Z?\d7\df7!\89\96\d4FF\f5\0e\17\fasH\ccE\e6_\e7\a0\abC\d2\d1]r\12]\86\0dz<=f\a54\ac\d2\b6O\c9\83\1d\b1\9e\d7\94c\97\1eQ]#B\92\0c\a1\9c\17\c1Ky\dd\82\df~\da}O\9b\0e\n\b4\e3\12h\ac[b\d1\98d*\96\e5^\17\10 9\1eS\f0\e2\81\a7\e0\b6\eeDQ\b2\12@\b3-\18\a9&O\ceRM\92Xj\a7\8e\a8\99\c2W\13A\a4~\b0\b7{P\'\aa\d8}\da\f5\d0\f2\1e4Pe\c0_\c9\a6R\bb\13\cb\ae\c4@\c2\18\90\a6\ea\99L\d4\eb\0e\c9\0f<\f26\9a\ce\13\80\n\11\c3\adSy\b1A\19`P\be\f6\b0\1fg\08t\02\8b\dc-\c1gG\b3\a6\fe^Z\19R\a0)5o\b0$4\86\9f\c2\eb\feKH\14\db\19\ee\90\f2Y\1d\90\9e\7fh\89e\d69\10_)\b0\b4\1d\c3\fbL\972\a7\a8\d5#\f6\19\b2\baY]\b15\96=\ac[\1f\baw\e9\c4\14(b\e1}\'^\ab\97VIL\fb\92\87\9d\10\0d\9dh\c9\d8\c9\ab\f2\f0\0ez\f8\b7\a5\95\1a>\17\ba:z\a1\bc[Zr.-\93\84D\15\cbE\fb.\c8\1a\ca\af\ae\8e\8b\8aB\9d\03\11E\t\92\b1\a6\f7\dc\b2J\e4x\aa\9d\fb8\1b\04\a1A\c1\eb\92}\f5n\83-U\b1/\c7\15\03\b4gg\89ud\c4X\9cWw\'&l\11\d2\ec\a5\d8\db\88mm\f4\c6%\f2\0b=\e0\1b\db#\ebF\16\07\be\8a\c38\1e(\a3\fdL\16I\b6U\d2\11l\fen\9c`KSO1\d7\11\0e\8a\ef\b6O\13\97\b1`gE\85\18\82\8b\1c\a5\a1\bf\f8r\0f\ac\'\1a\b9j7\ad\01\d6\16\1eN\99`\c2rV\b9\e1`U,$\ceD\12\95\16\c2\cd\03\1eW\f55\ce\bb\13m\e3:\1d\ab\ab\01\0b\03\18\ac*+\d8/v\8aOb\17V\894o\02\e0\bc\bbU\13\f3\c4n\0c\b5\12\89\a8\ed\b1\d0\cc\c7\92\ef\1e\b8\d4Jz\ee\1d\07\baW\8e@\n\d3\db\f2K\93\10o\fb\f1\17\06\c8\dfq\00\d5\a8|\f5o\0f\daX\fc\'\13\d6\0cf\e93\bb\a7\fa\bbL\b2)\8e`\a6\1e\11\d7\84\87)\fcR\95\c9\a3\8eT\0b\1a\85\18\0e\ac\d0\d2\ba\c9\a8\aa\07\83\d8vo\ae\9d\13\e3\ac\1a\1e^\dc\da\dd\a5\d1\c0W\b2\b0b\1fO\8aHKK\b0H~QA\9a\ac\8e\c0\1b\19\d9\a1\d3\d5\d5Ym\cb\da\cd\e1V\a53\16\14{\81\dcw\11{W<\e2\d7\e7\ab\ea\c2\11\10*\cf`Y\82^\f2\c66&\a6\ac\aa\04\b6\19\bb\a5\80Gh\18\f5k\c5Q\ebVU\9d\91\14\96\84\00\06\edy*#\d1\a7\"\df\dd}t\10V\074\a3\e1\8f\dd\d1\81\0c\d11\96\fcS\1aEl\f6\e8\1as\e4\a74=\a7\f4D\fd\0f\15\9eV\f8S\e2(\1dS]\97R]j\97\d9\10bW\8d\b9\03\dba\eb.\f2P\95\10\bf\f5\1a\e8E\a4\c7\cfHN\bcX[\da\dd\a6e\91\15 k\83l\d9\d3qc\ad\e2\e1\17\1f\1eA\11\cd\11\9f\ad(\86\1c\9fH\04\03\f3dc\9b\1b\0b\db\18\beSk\b0\e5\06\9d5\8f\1d\e9\15\16\a2\15G\cb\0f\89\f3\eakJ\91r\e4 \ab\117\bcqxL\db\b8DF\aa\1b\84m\01E\1c_c\c1\c6\d6\15\c7\03\05UI\03\be\9a\9d\16\19\e9\cdkE\de867w\07i\fe\ae\17\12\c1A\16F\a2c\c1VXXr\0e\97\b1\f2\1c\ceg\ab\d1\81\1c\01\dfy\13\f5q\12\8e(\17\a5\ecUA\ce\164\7fa\dc\90\c1\0e\d8\86\12nGV5}$ e\02\c7\e7h\e4\8c\a4\1d%9x\f70\1d\80\ea\01l\b9 \1d\d7\b6\17\84\fa,\f9\f3\b0\99\bb4#aM\17\ac\f8\129\f7G(SN\\_T8h\15\f2\acZ\1e.,\d3\b9u\0b}\7fC`SD[\8aH\18X#\dc\c7\f7\d50\99\cf\19\a96|;m\13&\d2\f9r\8c\89\b4\8e\b2\8f\0e\f1\f9+\15\1f\b8A.\8f\a3\07*r(\a6\0b\f4\c7\bc\dd\18\fa\9a\be\a5O9\bb\c1\86\1e\d6\\\06\97\e4\13\f6\f70\t\19\c2^\9c\d70\f0\fa\d6$\d4\1f\f8_Z\07\14h\e5Iy\8d&/\df\83v\19`\e6\e1\05\10 Qn\c7\nR\bf\e5\cf^\14\1a\85\81\d1\0c\80\da\f1\05o\0e\99\84\d9K\10\f5\d4h\82\14\00\c4O\d6\e4\e3\f4\a0\f5\12\1a+w\ed\01\aa\99i\d9\11\b7\1c\f7\b3\f7\db\14\bc\c5\8a\01\88\14\ee\adt\92\b0\c5\\\f9\af\10,\t\deh\a6\ed|IT\ea\80o\94(\b3\1a$\d4\e4S\b8W\ca:\10U\9a\bfv \\\15\83v\1dC`y;bs\aa\ae\ff^\80\16\11\9e\bd\c8\d1f\f5+\9d\b8\10\b12\cb3W\1b\7fdmAR\c4\bc}`\0d\f4\8e\a2\\\df\15\cc\b6\8ag\dbi\fd\ca\e6=\c3\d8N}\7f\11\df\8awr\c5\0f/\ab\d7/\05\8e\e4.\ff\1b\80\d5\92[\04s\f2\88\ac\8cj>\1d\bfe\16fDBI\d0(\f5\d3V=U\98J\ff\ea\11\a3\a0\03BMA\88\b9W\95\bb\f3\102\ab\1c\e9\e6\02h\d7\cd9ayw\fc\c2@[\ef\16TR\02 yqa\e7-\f9\c9h\cd\15Y\12\86P\9d\99\8e\b5h\a5|[vt\15V[\1d\d2\a6J\e1>\91 Q\fd\15\c5\f6\ddD|\17\0e\1f\a2\1a\ff@M\a7\caD7\92\b1\d0\c9\12J\cbi\f7d\ce\ae\0b\11nXPO\b4\0f\1e;<\ee\c5P\d8\8b<\a7\f1ys?\90\0c\18\c9\c9\f17\day\t\ca\85\f4\c7\c22@=\13\dbB\e9\bf\f6\c2\a8\a9o\ba\0c\9e\b7f\c8\1e\e3\9b\ba\cc+\cfS!&\95p~,R\a0\18\82I\95p\89r\a9\1a\b8\dd&e\f0t\b3\13\9du\88\1a\0f\84u\f7\8c/>\08\e7\87\85\1f\17^\a0{r6\91_\n&\98\06\ec\9f7\19\df\e4\19\96[\f8@\19\d5\84F\05\f0\7f,\14L\eaG\ab\af\c6\00\e1\107\05\d1\8c\99#\10G\dd?EL\a4g\ce\e7$\d5\b4G\8f\d2\19\06\b1\cc\9d\d6\e9R\d8\1f\b7\dd\c3\9fr\a8\148\'\nKE\ee\dby\19,~i\19\c2\86\10Y\d8\a9\11\a2\e3_)\8fF0\0f\8f6q\1az\13\bb\a7\81\1c\b3\ba\a5k\f3\d8\d8^\'\15/\a9\95\ec\9a\e3(bQ\89\8f\ad\e0K\ec\10\17u\ef\e0\f78\0e\9d\e8\0eL\af\9a\ac\13\1by*Y\1a\93-\d8\b0Sr\d6%\e2V\a9\15.UGH\0f\bey\8d\dc\c1\de\b7\81ET\11|\bb\0b\da~\96\8f\15\94\9c\97\8c\cf\08\ba\1b\97/\d6\14\ff\11\a6wv\b0\df\d6rm.\16y\8c\deC\ff\a7Q\f9\91\f3\b2x\f5\bd\be\11\8e\ad\fd\d2\fe?\1c\c2\1c\ec\b7Z\"cd\1c\d8\8adB23\b0\01\17\f0_\15\b5\b5\b6\16F\a2\83\9b\8e\c2Y\01\acY\e6\dd\90\c4+\12\a3\039_\17\04\f6\ce\ac\c2\a3\fc\1a\d4\12\1d\83\9c-L\aci^r\bd\9b\1c\caHCB\17\9c\e3\8a\d6\89T\18\f5\fd\e2\16\08\07i\9b\12\c6\05\ab\bd\0fT\8d\ee/k\f1\0c\d8t\c5\1d\05k\"\ferv\d7\be\8c\"\c1pF*\d1\17\04\bcN\cb(\c5\12\ff\d6Ng\8dk\bb\0d\13\a0\f9}xt;Q\cb$~\d8{\12_|\1eMa\fe\f9)\c9\0d\t\b71\ad\fcA\7fc\18\n\81\cb\94!\d4\d7\a0\c5\'$\ca4\cc\82\13w\cexT\cf\b9\bfgo\0cmC!\ad7\1f\f9q-\dd\a5\94\cc\1fYp\8a\cfMW\f9\18\c7\f4\bd}Q\dd\d6\7fz\f3\a1?>\ac\fa\13\0b\ee/\c9\e8.\be\ff\c3\b8\9c2\fdy\f7\1f\d6$\f3\a0 \bf1f6\fa\16\c2\fd\c7\92\19x\1d\\\1a\1a\cc\'\b8^\fb\ab\01\cblu\14`\e4|{\ae\tS\93\18\c9\bcg\a2\f0]\10\99\a0\94\c5\b0B\eb\1e\f4t\94?j\e7/\1a\e1\e6v\04\'\02\89\e5\\*\dd2\88\1f\f3\14\e7\eb+\9d\85\ce\a0\b7\b0\ee\b0(\a0\7f\c2\10\d8\df\dfaoJ\01Y\b4JNt3\cc\d0\1a\adL\e6\e7%\d5\cd\e0)\a2>\90\8f\d6s\15\f1\d6Q\86QwqM\ee\b4\cb\d9rx)\11\e8W\e9\d6\e8\be\e8{\b0T\ac\8f\84\8du\1b \13!\dfS2\ba\fcY\dd\89\0cj\a4\f7\15\80B\e7\18C(\c8c\aeJnp\ee\e9\92\11fj\d8\'8\0d\0d\06\17\11J\1a\17C\1e\1c\eb!\ad\ec,\a4=k\12tn{\12\9c~\16VNW\bd\f0\1c\fe\88\db\\X\fcA\e3\fe\11#J%b\b4\94\96A_a\8d`6\05\cb\1c\e9\d4\1d\e8)\aa\abg\7f\e7=M\f8\d0\08\17\87\dd\17 \bb!V\b92\b9d\d7\f9sm\12\a5\95\8cf+i#\c2\ea\c1:\f2\c2\ec{\1d\1d\de\d6\1e\89\ba\82\ce\bb4b[\02W\96\17\18\18\dfK\07b5\a5\fc\f6\b4\e2\01\ac\de\12Y\f3dy\d8\9c\88;\94\f1\8776\131\1e\e1\f5\83\c7FJm\fc\dcZ\06\c6\91B\'\18\1a+\03\06\9fnW0\17\af\9e\d1\a7\9bR\13\90\de\d1<\cb}%\1a%\181\1c\a6\92\ea\1e@\e5\a70<\fe\1dH\b7yZ\e3\84\a8\bb\18\00Q\86\c0\c91K\d3\c5\c7\ae\82\9dS\c9\13\cd\b4\a3\cdB\e9\11R\t\a6\17\d1\c8\85\a8\1f\a4\90\1c>\02!\dbt\07\b8\df@:\9eS\19P\0dJ\cb\01\b4\15\f7\05`\19g\fb\e4B\14\a7\n\08\t\9b)\de\f87\b3zR\fc\835\10\d7\dd\0c\a8\91B0\8eY\b8*\b7\939\ef\19\13K\n \0e\02\8d>\e1\f9\ee\f8Ba\bf\14\0f<\08\80>\9b=e\e7\c7X\fa\9b\1a\99\10\e4,\0d\00d\f8\c8n\a5\0c\8e\90\f9\90\8e\1a\ea#\a4\99\e9\f9\d3\8b\b7\a3q@a\da>\15\bb\1cP\e1\ba\94\a9<\f9\82\f4\99\1a\15\ff\10+a\b3\9b\c4\bau\c7\8e\d1 \c3]\bb1\1b\89\1a)\16j\95\c4\d2\0b\0e\e7h\b1b\c1\15\a1{\ba\11\88w\d0\dbo>\1f\87\'\82g\11\9b\92]\1c@\bf\80,\e6c\98>?\d0\d8\1bIu\e4I3\cc3\bdQ\b6Fe\ff\0cG\16\d4]Pn\8f\d6\8f\ca\a7^\05Q\ccp\d2\11S\c9\b3\e3KW\19D\d9\fdnN\ad\e7\83\1c\a9:\f6\82\tyG\03\e1\97%\a5\8a\ec\cf\16\ba\fb\c4h\d4`l\cf\80y\84\ean\f0?\12*\f9\07\0e\874z\e5\9a\f5\d3\10K\1a3\1d\"\949\0bl\90.Q\e2*C\da\08\15\\\17\b5\a9\c7\d5\bc\a6\8b\da\81U\cf\e1\d3\10\b0\12\87\0f\d9\".q\df\90\9cU\e5\02S\81\e6\1dl\0c\14O\8bZL\da\16\de\1d\cf\a8\9a\eb\17\8a\a3\a9\a5\a2{\a3\aex~\b1\a5 \e2\"\13\a9\05\a9\a2j_\d2}\'\97\b5\a2\9a6\9e\1eT\d1 \82\88\7f\db\97\1f\ac\f7N\15\92~\18w\a7\80\ce\06f|yL#\c6\d8\ddt\98\13\f1\0b\01\e4\np-\8f\adk\a3\'\96TZ\1fZ\d6\00P\a2Y$\0c\be\ef\b5\1fx\10\15\19\15E\9a\d9\81\14\1dp\fe\f2\f7\b2\f9\d9\10\14wj{\14\9bC\17\c0\fe[\c6(.{\0d\10\f2C\92\ed\c4\05\f2\cc\ca,\n\0e}+\af\19\c2\9c\0e\be\d07[\no\bd\a1q\ca\"\8c\14\ce\e3>\cbs\f9H\08\8c\97\b4\'\d5\1bp\10\b0\9fdx\ec[\0e\da\ac%T\0cU\f9L\1a\c0\7fP`\f0\af>{\bd\b7\a9\d6\10a\n\153f@\80\f3\bf\cb\95\97,\ee\des\1a\d5\10Rp\cdfRf\ac\efXG\b0d\b9\90\ee\1a\dbY\a4\b8\0e\85#&Gl\f3\b6\fa\a6\8b\15I\ae\b6\93\d8\d0\82\1el#)_\95\85<\11u\b0\8a\1f\f4\1a\9e\fd\ac8\a8\fe\ee\08\94\1b\f7Y\d5\b2)\af\b1\97\bd\93\86\98%\07\10\16,{w\f5\ba%\8e\ac\97\dc\9e\13\1el\a6\11\13\c5X\"+\t}z\bf-\fe\b8\c9y=\1cvj\adN\ef\a0\fda\ccW\cb`\a1\94\97\16\c5\ee\bd\0bY\1a\fe\e7\t\13\t\e7M\dd\12\12:\b1\fcE[]c\a6\dc\84\0e\d8\af\fb\ea\1c\c8\8d0k\afJ\1c\85\b0\d0>\13\f3b\"\17\d4\d7&\bc\f2n\e3\d0&\da\cbu\c2\e8\81\12\86\8c\a4\c6\ea\17\9f\b4\d7)F\89\9d\a7\9c\1dkpP\05\ef\df\18*F\ee\04\a1\17\86\b0\17\89\f3\d9\9d%\b3\e0Tk\8b\9dMy\9e\f3\12tR\f6bo\eb\cd\87xE/|(\97R\1e]\a8^\82\bf\"\0b\d3\c6j\bf\c9\86\12B\18\e4\b9Kh\cc\1b<\0f\9f\88\ff:\d2\0eh\13m)y@z,`\18\98\da\98\91\83\e4\0c\1f$!\943\c8V\b3F\13\e2\13\0e6\1d\d7\18\b6MC)\a0x\8f8\dc\b4\dc\a4\91J\df\13\8a\afk\a8f\'\7fZ`!a\a1\82\aa\cb\1f\a2\bf\ef\b9\eb\852\15M\b4M\b4\9b\bbo\19N\99\8ca\89\d1\8e\aa=\90\a4\f6\e2bY\14\0c\e1\d6\1a\a1\a7\d8\ee\ca\d9\b6+O\82G\10E\9b$^\9br\'~\11\f6\8a\df\b1\03\0c\1a\04I\1d\18I\f5\85\fe\0d\f8;\19[i\d6\14\d0\a0J\13\d4]\9e\cb\a4\f9/\14|\87\ab\10M\01\11RS\c9c\df:\\\e6\b9\f9\0b\ac\1aqg\dat\0f\a1\1c\19/\b0\1e\fb\faoV\15\c1RH*\d9\80\b0\ad%\c0K//\f3\11\114Q\0d\aa\8e4\e7\15\t\cd\12\b2~\ebO\1b\c4\0dq\ee>]\1f\abm\n\0f(2\89\d9\15\9d\a4\8d\8be\17\19\bcW\08\0c (\d4z\11\94:|\12<\f2\f4,Y\0d\e0\cc\d9\b9\f7\1bC\95\96\db\fc\f4\c3\f0\e0=\b3p\e1\c7_\16\03\11\12\16\97]6Z\1a\cb\f5&\819\e6\11\04\e8\1c\f0$\fcV\90\90\de\"\0b5\8f\a3\1c\d0\ec\e3\8c\1d0\df\d9\a6K\82\a2]?\e9\16\da#\83=\b1Y\7f\e1\eb\a2\ceN\b12T\12\\98/\b5\c2\cbhy\d1}\e4N\84S\1d\e3-`\bf]5\d6S\94\a7dPr\03v\17\1c\8b\e6e\b1*x\a9v\ec\b6\a6\8e\cf\c4\12\faD\d7o\b5\aa&\0f\f1\13\8b\d7}\b2\07\1ebj\df\bf*\"R?\'Co\acd(\06\18N\88\7f\99\88N\dbe\1f\9c\f2\89P 8\13J\0d\cc(tJ\c5oe\93\ea\0f\b43\c0\1e;\a4\t\87\f6\a1jY\84\0f\"s\f6\c2\99\18\96\b6\07l\f8\e7\ee\ad6\d9\b4\f5\915\ae\13VW\0c\e0\f3?~I$\f5\ba\"\83\"}\1fE\ac\d6L\f6\ffd\d4\e9\90\95\e8h\e80\19\d1\89x=\f8\ff\83C\eesD\edS \'\14t\a1\93\97\c6\cc\9c\cf\f1\8f\03\f1\0fM\1f\10R\02\b9%\a4Ga\7f\1c\b3\05\e8\7f\ae\cb\19\0f5\c7\b7\e9\d2M\cc\16\\\d1\ec\ff\f1\a2\14\d9\90\d2_!\0f\0b=\12\b0\da#3[\82\10\c1\e7P\99hK\abaP\b3*\06\85+j\1ag\b9@\14\ba\a2\"N@\\Ukj\bc!\15S\94\00\dd\94\e8N\0b\cdID\bc\ee\c9\e7\10Q\ed\00\c8\87\da\17\12H\a9\d3\c6Jv\0c\1b\da\bd\00\a0lHF\dbl\87\dck\d5\91\a3\15\afd\cdL\bd\06\05I\8a\9f\e3\ef\dd\a7O\11\b1:\e2z\c8\n\08\a8C\ff8\e6/\a6\b2\1b\f4.\e8\fb9\a29Si\ff\93\1e\f3\84(\16]\f2\ec/\fb\b4\c7u\87\ff\0f\b2\f5\03\ba\11.\eaG\e6\91!\d9\"?\ff\7f\b6\"\d3\\\1c\f2T\06\85A\81z\b5e\ff\ff\91\e8\a8\b0\16\f5C87\01\01b\c4\b723\db\86\ed&\12\ee\9f\f3\f1\01h6:Y\84\eb\91\a4\15\0b\1d\8b\19\f6\'\9b\b9^\fb\e0i\bctP\11<\17\d6z^\86\e2\fa~/\e7\87c]@t\96\12V\91\fd\d6\d0\f7\97\e5q\d98b\cd\86\bd\1d\ab\da\cax\0d\93y\84\c1z-\e8=\d2\ca\17V\15o-qBa\d0\9a\c8\8a\861\a8\08\13\"\"\18\afNjhM\91\da\aa=O@t\1e\e8\b4y\f2>\88S\a4\da\ae\88d?\00]\18\87]a(\ffl\dc\e9\aeXmP\cc\99}\13\a4\95h\0de\ae`\a9\e4\8dH\1az\\/\1f\83D\ed=\b7\be\b3\ba\83q\a0\aea\b0\f2\186\9d\8a1,2\f6.6\c1\e6\be\e7Y\f5\13\f0aw\82\13\1d\bd\e4\89\9b\d7\97?\f6\ee\1fZN,5\a9}\ca\83\a1\af\df\df2\f8\8b\19\15\a5V\f7 \fe\a1\9c\e7\f2\b2L\c2\f9o\14\aa\1d\12\f9\b31\1bJ\b9(\8fp\9b\94Y\10\dd\95\b6\c1\ec\b5^C\f5\0d\e5\80\c5\ed(\1aJ\de^\01W^\e55\c4\a4\1dg\04\8b\ed\14\d5\b1\18\01\ac~\b7\c4i\1d~R\d0\08\be\10\"\b6Z\9by\97%\a1\0f/0\b7\b3\a7\c9\1a\81^\15Ia\ac\b7M\d9X\f3\f8\c2\1fn\15\9bKD\07\81#\c6\d7\ad\e0\f5\935\e6$\11+\ac\d3>\9b\05=YI4V\86\"=n\1b\bc\89\dc\cb\15\9e\fd\e0m\c3\11\05\82\ca\f1\15c\a1\e3o\11\18\fe\b3$iA7\9b;\8e\11\d1\9b\d2\7f\b5Yc\86\07u5%\c5\c5\16\1c\0e\e3\0e3\91\14\e9\d1\d2\90\f7P7\9ex\16\0b\1c?\8f\dav\batu\0d\c6@,\18\fa\11x\c61\e5\90$\f7\ed\bbH\a3g\e0Y\c3\1c-\05[\b7@\1d,\8b\c9\d3\b5\1fM\ae\02\17$\04|_\cd}Vo\d4\0f+\e6p\8bh\12\06m\c6\98H\c9\f0~\ed\b2\11=N\12t\1d\9f\bd\9e\e0\06\a1\c0\98W\c2\a7\fd\a4\0e\90\17\e6\caKM\d2\80\00Gy\9b\ec\caP\a5\d9\12\a2DyH\1d\ce\00\d8\8e\c5\adD\81\08)\1e\82\d0-m\17\d83\13?\d1W\9d\9a\d3 \18\ce\a6$$yF\f6\a8e\a7\acJ\15vM\13}\a4:\a0\8e=\bdto\a5zw\88V\e2\1edP\95\e6>1d]\8c\b7\fb\c5\06\12\b5\18\b7\a6\aa\eb\cb\8d\b6Jp,\96\d1k\0e\c4\13W\a4\aa\12\13\16$\11\1aG\f0\e8\12\17\a0\1f\df\e9\ee\0e\dcD\83\da\14l\f3SB\dfL\19\80!\bf\d8|\9d\02\e2C#)Ch\7f=\143\812z\fd}hN6\1cT\cf\b921\10\b8\ceP\90\95\c9@J\bd\c6\b9K)Q\e8\19\c6\0b\a7\a6w\d43\081\d2\c7o\87\da\b9\14k\t\ec\1e\c6v)\a0\8d\0e\d3\bf\d2\ae\94\10\df\db\acd\a3WB\00I\17\b8\ff\1d~\87\1a\19\e3#\ea\b5\df\01\cd\a0\12`\99\b119\15\ae\b5\1c\88\91L\cepMu\e6\ad\'\8e\fa\10\e2U\94\a6\b5\ad\e3\1a\af\bbpI\0c}*\1b\e8wC\85\c4W\e9{\f2b\8d\07=\97\bb\15\87\f95\04jy\87\c9\8e\b5\n\06d\dfb\11q\c2\bc\06\10\8f\a5u\e4\88w\d6le\d1\1b\'5\cak\a6\a5\b7\f7\e9\d3\92\ab\f0\1dA\16\1f\c4\a1\bc\1e\1e\c6_\ee\0f\0fV\8d\b1\cd\11e\d3\02adc\a3\ff\16\b3\b1\89HO|\1cQ\dc\9bMP\1c\e92\df(\8e\d4\06\d9\c9\16\0e}Iqs\e3 \8f\b2 \d8v\05\14;\12|.\0f\82\85\05\9b~\ea\cdY\f1;S+\1d\ca\be\a5\01\9e7\af\cb\ee\d7G\f4/\dcU\17\a1\98\844K\f9X\t\bf\acl\c3\8c\16\ab\12\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 26704) "PH\00\00\ac\02\00\00")
+ (data (i32.const 26712) "`\14\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\10\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\14\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\19\00\00\00\00\00\00\00\00\00\00\00\00\00\00@\1f\00\00\00\00\00\00\00\00\00\00\00\00\00\00\88\13\00\00\00\00\00\00\00\00\00\00\00\00\00\00j\18\00\00\00\00\00\00\00\00\00\00\00\00\00\80\84\1e\00\00\00\00\00\00\00\00\00\00\00\00\00\d0\12\13\00\00\00\00\00\00\00\00\00\00\00\00\00\84\d7\17\00\00\00\00\00\00\00\00\00\00\00\00\00e\cd\1d\00\00\00\00\00\00\00\00\00\00\00\00 _\a0\12\00\00\00\00\00\00\00\00\00\00\00\00\e8vH\17\00\00\00\00\00\00\00\00\00\00\00\00\a2\94\1a\1d\00\00\00\00\00\00\00\00\00\00\00@\e5\9c0\12\00\00\00\00\00\00\00\00\00\00\00\90\1e\c4\bc\16\00\00\00\00\00\00\00\00\00\00\004&\f5k\1c\00\00\00\00\00\00\00\00\00\00\80\e07y\c3\11\00\00\00\00\00\00\00\00\00\00\a0\d8\85W4\16\00\00\00\00\00\00\00\00\00\00\c8Ngm\c1\1b\00\00\00\00\00\00\00\00\00\00=\91`\e4X\11\00\00\00\00\00\00\00\00\00@\8c\b5x\1d\af\15\00\00\00\00\00\00\00\00\00P\ef\e2\d6\e4\1a\1b\00\00\00\00\00\00\00\00\00\92\d5M\06\cf\f0\10\00\00\00\00\00\00\00\00\80\f6J\e1\c7\02-\15\00\00\00\00\00\00\00\00 \b4\9d\d9yCx\1a\00\00\00\00\00\00\00\00\94\90\02(,*\8b\10\00\00\00\00\00\00\00\00\b94\032\b7\f4\ad\14\00\00\00\00\00\00\00@\e7\01\84\fe\e4q\d9\19\00\00\00\00\00\00\00\880\81\12\1f/\e7\'\10\00\00\00\00\00\00\00\aa|!\d7\e6\fa\e01\14\00\00\00\00\00\00\80\d4\db\e9\8c\a09Y>\19\00\00\00\00\00\00\a0\c9R$\b0\08\88\ef\8d\1f\00\00\00\00\00\00\04\be\b3\16n\05\b5\b5\b8\13\00\00\00\00\00\00\85\ad`\9c\c9F\"\e3\a6\18\00\00\00\00\00@\e6\d8x\03|\d8\ea\9b\d0\1e\00\00\00\00\00\e8\8f\87+\82M\c7raB\13\00\00\00\00\00\e2si\b6\e2 y\cf\f9\12\18\00\00\00\00\80\da\d0\03d\1biWC\b8\17\1e\00\00\00\00\90\88b\82\1e\b1\a1\16*\d3\ce\12\00\00\00\00\b4*\fb\"f\1dJ\9c\f4\87\82\17\00\00\00\00a\f5\b9\ab\bf\a4\\\c3\f1)c\1d\00\00\00\a0\\9T\cb\f7\e6\19\1a7\fa]\12\00\00\00\c8\b3G)\be\b5`\a0\e0\c4x\f5\16\00\00\00\ba\a0\99\b3-\e3x\c8\18\f6\d6\b2\1c\00\00@t\04@\90\fc\8dK}\cfY\c6\ef\11\00\00P\91\05P\b4{q\9e\\C\f0\b7k\16\00\00\a4\f5\06d\a1\da\0d\c63T\ec\a5\06\1c\00\80\86Y\84\de\a4\a8\c8[\a0\b4\b3\'\84\11\00 \e8o%\16\ce\d2\bar\c8\a1\a01\e5\15\00(\e2\cb\ae\9b\81\87i\8f:\ca\08~^\1b\00Ym?M\01\b1\f4\a1\99d~\c5\0e\1b\11@\afH\8f\a0A\ddq\n\c0\fd\ddv\d2a\15\10\db\1a\b3\08\92T\0e\0d0}\95\14G\ba\1a\ea\c8\f0oE\db\f4(\08>n\ddll\b4\10$\fb\ec\cb\16\1223\8a\cd\c9\14\88\87\e1\14\ed9\e8~\9c\96\fe\bf\ec@\fc\19j\e9\19\1a4$Q\cf!\1e\ff\f7\93\a8=P\e21P\10Am%C\aa\e5\fe\f5\b8\12M\e4Z>d\14\92\c8\ee\d3\14\9f~3gW`\9d\f1M}\19\b6z\ea\08\daF^\00Am\b8\04n\a1\dc\1f\b2\8c\92EH\ec:\a0HD\f3\c2\e4\e4\e9\13\de/\f7VZ\a7I\c8Z\15\b0\f3\1d^\e4\18\d6\fb\b4\ec0\11\\z\b1\1a\9cp\a5u\1d\1fe\1d\f1\93\be\8ay\ec\ae\90af\87ir\13\bfd\ed8n\ed\97\a7\da\f4\f9?\e9\03O\18\ef\bd(\c7\c9\e8}Q\11r\f8\8f\e3\c4b\1e\b5vy\1c~\b1\ee\d2JG\fb9\0e\bb\fd\12b\d4\97\a3\dd]\aa\87\1d\19z\c8\d1)\bd\17{\c9}\0cU\f5\94\e9d\9f\98:Ft\ac\1d\ed\9d\ce\'U\19\fd\11\9fc\9f\e4\ab\c8\8b\12hE\c2q\aa_|\d6\86<\c7\dd\d6\ba.\17\c2\d62\0e\95w\1b\8c\a8\0b9\95\8ci\fa\1c9\c6\df(\bd*\91WI\a7C\dd\f7\81\1c\12\c8\b7\17sluu\ad\1b\91\94\d4u\a2\a3\16\ba\a5\dd\8f\c7\d2\d2\98b\b5\b9I\13\8bL\1c\94\87\ea\b9\bc\c3\83\9f]\11\14\0e\ec\d6\af\11y)e\e8\ab\b4d\07\b5\15\99\11\a7\cc\1b\16\d7s~\e2\d6\e1=I\"[\ff\d5\d0\bf\a2\1bf\08\8fM&\ad\c6m\f5\98\bf\85\e2\b7E\11\80\ca\f2\e0oX8\c92\7f/\'\db%\97\15 }/\d9\8bn\86{\ff^\fb\f0Q\ef\fc\1a4\ae\bdg\17\054\ad_\1b\9d6\93\15\de\10\c1\19\adA]\06\81\987bD\04\f8\9a\15\152`\18\92\f4G\a1~\c5zU\05\b6\01[\1a\1f<O\db\f8\cc$o\bblU\c3\11\e1x\10\'\0b#\127\00\eeJ\ea\c7*4V\19\97\14\f0\cd\ab\d6D\80\a9\dd\e4y5\c1\ab\df\bc\19\b6`+\06+\f0\89\n/l\c1X\cb\0b\16\10\e48\b6\c75l,\cd:\c7\f1.\be\8e\1b\14\1d\c7\a39C\87w\80\t9\ae\bamr\"\19\e4\b8\0c\08\14i\95\e0K\c7Y)\t\0fk\1f\8e\f3\07\85\aca]l\8f\1c\d8\b9e\e9\a2\13r\f0I\a6\17\batG\b3#N(\bf\a3\8b\18\8fl\dc\8f\9d\e8Q\19\a0\aca\f2\ae\8c\ae\1e\d9\c3\e9yb1\d3\0f\e4\0b}W\ed\17-\13\cf4d\18\bb\fd\c7\13\ddN\\\ad\e8]\f8\17\03B}\de)\fd\b9X\94b\b3\d8bu\f6\1dBI\0e+:>t\b7\9c\1dp\c7]\t\ba\12\92\db\d1\b5\c8MQ\e5\03%L9\b5\8bh\17wRF\e3:\a1\a5\deD.\9f\87\a2\aeB\1d\8a\f3\0b\ce\c4\84\'\0b\eb|\c3\94%\adI\12m\f0\8e\01\f6e\f1\cd%\\\f4\f9n\18\dc\16\88\ac\f2\81s\bfmA/sq\b8\8a\1e\93\1c\d5\ab71\a8\97\e4\88\fd\e7F\b3\16\f3\db\11\ca\96\85=\92\bd\1d\eb\fc\a1\18`\dc\efR\16}\fc\e6\cc\f6,\e5%|\ca\1ex\d3\ab\e7\1b\ce]\10@\1a<\af\97\8d>\13+d\cbp\11Bu\14\d0 \0b\9b\fd0\0e\d85=\fe\cc\15\92\92\19\04\e9\cd\01=\bd\11N\83\cc=@\1b\9b\fb\8f\a2\b1 !F\16\cb\10\d2\9f&\08\11\82\fa3\0b\deh\a9\d7\db\fd\94\c6G0J\15#\f9\00\8e\15\c3\93\cdR=:\b8Y\bc\9c\1a\b6\9b\c0x\edY|\c0Sf$\13\b8\f5\a1\10\a3\c2\f0\d6hp\9b\b0\e8\7f\ed\17&s\ca\14L\f3\ac\0c\83L\c2\dc\e2\df\e8\9d\ef\0f\fd\19\0f\18\ec\e7\d1o\f9\c9\ed\8b\b1\c2\f5)>\10\13\1e\e7a\c6\cbw<\e9\ee]3s\b4M\14\98\e5`\fa\b7\be\95\8b\a3j5\00\90!a\19\fe\1e\f9\f8e.{nL\c5B\00\f4i\b9\1f_\b3\9b\bb\ff\fc\0c\c5O\bb)\808\e2\d3\137\a0\82\aa?<P\b6#*4\a0\c6\da\c8\18DH#\95OK\e4\a3\ac4AHx\11\fb\1e+\0d6\bd\11\afn\e6\eb\c0(-\eb\ea\\\13u\90\83,\d6Z\n\e0&\f1r\f8\a5%4\18\93t\a4\b7\8b\f1\0c\98p\ad\8fv\0f/A\1e\dc\c8\c6R\f7\16\08_f\cc\19\aai\bd\e8\12\13{x\'\b5\1c\ca\f6\7f?\a0\14\c4\ec\a2\17\d7\99Vq\e2\a3|\f4_O\c8\19\f5\a7\8b\1d& \d6\86m\e6\cd\f8\9b1\1d0\f9Hw\120\a8\8b\e8\08`\01\f7\02~$|7\1b\15\17<\92\ae\"\0b\b8\c1\b4\83\9d-[\05b\da\1ce\1b\ad\f5\06\13\f9Pr\82\fcXC}\08\12?b\18\b3\c8W7\e5\0e\a3;/\94\9c\8a\16\cfz\de\df\ba-\85\9e\d2\8b\n;\b9C-\1c\c1\0c\eb\cb\94<\13\a3c\97\e6\c4SJ\9c\11\f1\cf\e5\fe\b9\0b\d8\8b<= \b6\e8\\\03\16\eeC\9f~\a8\0e\ce\ae\8bL\a8\e3\"4\84\1bu\8a#O)\c9@M\d7/I\ce\95\a02\11\12m\ec\a2s\fb\90 \cd{\dbA\bbH\7f\15V\88\a7\8bP:\b5h\c0ZR\12\ea\1a\df\1a6\b5HWrDqA\b8xsK\d2p\cb\10\83\e2\1a\ed\8e\95\cdQ\e6VP\de\06M\fe\14$\9ba\a8\f2\fa@\e6\9fl\e4\95H\e0=\1a\f7\00=\a9\d7\9c\e8\ef\e3\c3\ae]-\acf\104A\8c\93\0d\c4\e2\eb\dct\1a\b58W\80\14\81Qo\f8\10u\db&\14\12a\e2\06m\a0\19\f1\92E\9b*)I\98L\ab|M$D\04\10\ad\f7\16Bus[\be\1f\d6\db`-U\05\14\98\b5\9c\92RP\f2\ad\a7\cb\12\b9x\aa\06\19\ff\e2C7g\e4n\99\91~W\e7\16UH\1f\dfm\8a\82\c0N\e5\ff\1a\af\96P.5\8d\13W\t-\a3p\a2\de\bf\e1Z\bc\e4y\82p\18\adK\f8\cb\0cK\d6/\9aq\eb]\18\a3\8c\1eL/{\ff\e7\ee\e5]\00\'\b3:\ef\e5\17\13\1f\fbY\ff\a1j_u\c0\f0_\tk\df\dd\17\e7y0\7fJE\b7\92\f0\ec\b7\cbEW\d5\1d0L~\8fN\8b\b2[\16\f4R\9f\8bV\a5\12<\df]3\".\9f\f2\1b\b1\'\87.\acN\17\0bW5\c0\aa\f9F\efb\9d\f1(:W\"\1dgV!\b8\n\\\8c\d5]\02\97Y\84v5\12\01\ac)f\0ds\efJ\f5\c2\fco%\d4\c2\16\01\17\b4\bf\d0O\ab\9d\b2\f3\fb\cb.\89s\1c`\8e\d0w\e2\11\8b\a2Ox}?\bd5\c8\11\f9\b1\c4\15[\d6-\8bc\d6\\\8f,C:\16w\de5\db\f1K\f9m\fc\0b4\b3\f7\d3\c8\1b\n\ab\01)w\cf\bb\c4}\87\00\d0z\84]\11\cd\15B\f3T\c3\ea5]\a9\00\84\99\e5\b4\15@\9b\120*te\83\b4\d3\00\e5\ff\1e\"\1b\08\a1\0b^\9ah\1f\d2P\84 \ef_S\f5\10J\89\8e\f5\c0B\a7\06e\a5\e8\ea7\a82\15\9d+\f22q\13QH\be\ce\a2\e5ER\7f\1aB[\d7\bf&\ac2\ed6\c1\85\afk\93\8f\10\122\cdo0W\7f\a8\841g\9bFx\b3\14\97~\c0\8b\fc,\9f\d2\e5\fd@BXV\e0\19\1eOX\d7\1d|\a3\a3\af\9eh)\f75,\10\e6b.M%[\8c\8c[\c6\c2\f3tC7\14\9f\fby\a0\eeq\afo\f2w\b30R\14E\19\87z\98HjN\9b\0b\efU\e0\bcfY\96\1f\94L_m\02\11Ag\b55\0c6\e0\f7\bd\13\ba\1f\b7\08CU\11\c1\"C\8fC\d8u\ad\18\a8\e7\e4\ca\93\aaUq\eb\13sTN\d3\d8\1e\c9\10\cf^\9c\8a\d5&s\ec\c7\f4\10\84G\13\fb\d4\82vC\ed\8a\f0\8f\e7\f91\15e\19\18:\8a#T\94\a8\ad\ecsax~Z\be\1f\1ed6\96\b4\\\89\ecs\e8<\0b\8f\f8\d6\d3\12\fd\c3\bb\e1\b3\ab\e7\90\"\0c\ce\b2\b6\cc\88\17\fd\b4*\da\a0\96!5+\8f\81_\e4\ffj\1d\1e\b1Z\88$\fe4\01{\f9\b0\bb\ee\dfb\12e]q\aa\ad=\82\c1\d97\9dj\ea\97\fb\16\bf\b4\0d\15\19\cd\e21\d0\85D\05\e5}\ba\1c\f7\90(\ad/\c0-\1f\a2\d3J#\af\8e\f4\115\b5r\98;0\f9\a6\8a\88\1d\ecZ\b2q\16\82b\8f~J|\b7P\ad\ea$\a7\f1\1e\0e\1c\91\9d\19\8f\ae\adrR\ac\12w\08W\d3\88\11\f6\04\e02\1aY\0fgW\d7\94\ca,\08\eb\153\06\98\bf`/\d3@-\0d:\fd7\cae\1b\e0\03\bfw\9c\fd\83H<HD\feb\9e\1f\11\d8\c4\ae\95\03\fd\a4ZKZ\d5\bd\fb\85g\15\0ev\1a{D<N1\de\b0J\adzg\c1\1a\c9\89\f0\cc\aa\e5\d0\de\8a\aeN\ac\ac\e0\b8\10;\ac,\80\15\1f\85\96-Zb\d7\d7\18\e7\14J\d77\e0\daf&\fc\b8\f0:\cd\0d\df \1a\8e\e6\"\ccH\00\98\9ds\d6D\a0h\8bT\102\a0+\ffZ\00\fe\84\10\0cV\c8B\aei\14>\88\f6\beq\80=\a6\14\8fkz\d3\19\84\19N*\b4.\8e\e0\cc\cf\d9r\06YH \e5\1fp\9a0\ddX\0c\e0!\c8\07\a47-4\ef\13\0d\c1|\14o\0fX*\ba\t\8d\858\01\eb\18P\f1\9b\d9J\13\ee\b4(L\f0\a6\86\c1%\1f\d2v\01\c8\0e\cc\14q\99/V(\f4\98w\13\86\d4\01z\12\ffY\cd\7f\bbk21\7fU\18\a8I\82\18\d7~\b0\c0_\aa\06\7f\fd\dej\1e\tnQoFOn\d8{*do^\cb\02\13\8b\c9%\0b\18\e3\89\ce\1a5=\0b6~\c3\17\ee;\ef\0d\de[,\82a\82\0c\8e\c3]\b4\1du\85\b5\c8j\b9[\f1|\d1\c78\9a\ba\90\12\d2\e6\e2z\c5\a7\b2-\dc\c5\f9\c6@\e94\17\86\a0\9b\d9\b6Q\1f9S7\b8\f8\90#\02\1dTD\01H\12\93\b3\03\94\"s\9b:V!\12i\95\01\da\d6w\a0\049\ebOB\c9\ab\a9\16\c3\fa\81\90\cc\95\c8E\07\e6\e3\92\bb\16T\1c\ba<Q\da\9f]\9d\8b\c4o\ce;5\8e\b4\11\e8\8b\e5\d0\07\b5\84\ae\b5\0b\c2\8a\c2\b1!\16\e3\ee\1e\c5I\e2%\1a\a3\8er-3\1e\aa\1bMU3\1bn\adW\f0%\99g\fc\dfRJ\11\a1*\00\a2\c9\98mlo\7f\81\fb\97\e7\9c\15I5\80\n\fc\fe\88GK\dfa\fa}!\04\1bN!\90\86]\9f\b5\0c\8f+}\bc\ee\94\e2\10\a1)4\e84\07\e3\cfrv\9ck*:\1b\15\n4A\"\02\c9\db\83\0f\94\83\06\b5\08b\1a\86\c0hU\a1]i\b2\89<\12$qE}\10\a7\f0\c2\aa\t\b5\03\1f\ac\cb\16m\cd\96\9c\14\d1\acs\15L\a2\c4&\97~\\\c8\80\bc\c3\19\03Lh\8do\e5:x\1e\cf9}\d0U\1a\10\03_\c2p\cb\9eI\16\e6B\88\9cD\eb \14\c4\f6\f2L~\06\dc\9b\9fS\aa\c3\15&)\19v\b4/\e0\1d\08\d3\82\87\e8\944\9bos\1f\c9\d0\1d\ac\12\e5\c3\b1T\11\dd\00\c1%\a8\13\fcD%WW\de4\de\a9U\14A1/\92\18;\96\ee,\ed\15\c2U\14kY\91\fd\ba\b6\1e\e5\1d\15<\b4M\99\b5\ec\e2\d7z\de42\13^e\1aK!\a1\ff\e2\a7\db\8d\19\16\c2\fe\17\b6\fe\e0\9di\89\bf\db\91R\f1\9f\9br\fe\1d1\9f\ac\02\e2\b5W)\9b\d3\f6C\a1\07\bf\12\fe\c6W\83Z\a3\ad\f3\81\88\f4\94\89\c9n\17\bd\b8-$1\0c\99p\a2\aa1\fa\eb{J\1dv\93\9c\b6\9e\a7_\86\a5\n_|s\8dN\12T\b8Cd\86\91\f7\e7N\cdv[\d00\e2\16i\a6T\fd\e7u\f5\a1\a2\80Tr\04\bd\9a\1c\01\e8T\fe\b0i9\a5e\d0t\c7\"\b6\e0\11\02\"\ea=\1d\c4\87\0e\7f\04Ry\ab\e3X\16\82\aad\8d$\b5)\d2\9e\85\a6W\96\1c\ef\1b\91\ea^\d86\11ZC\83\13\c8\f6\ddqu\116\a5v\8e\84\950\14d\18ztU\ce\d2\15\83N\14\b2\e5\ba<\19}\9e\98\d1\ea\81G\1b\12\b1L\8f\cf\f4\c5/\0ec\ff\c22\b1\0c\11V\dd\1fs\03r\b7\bb\d1;\bfs\7f\ddO\15\ac\d4\e7O\84N\a5*\c6\n\afP\df\d4\a3\1a\eb\e4\f0\b1\12Q\a7\da\bbfm\92\0be\a6\10&\1em^W%Q\d1j\c0\08wN\fe\cf\14\b0e\086\adn\a5\85\85\f0\ca\14\e2\fd\03\1a\8e?\c5A,e\87sS\d6\feL\ad~B\10q\8f6Rw>iP\e8\8b>\a0X\1eS\14N3\c4&\15\8e\83d\e2.N\c8\ee\e5g\19\"@up\9aq\a4\fd\9a\baazj\df\c1\1f\15HI\86\00\c7\86\de\a0\14}\8c\a2+\d9\13\1a\9a\db\a7\c0x(\16\c9Y\9c/\8bv\cf\18\a1\80\d2\d1\f0\96\b2[;p\83\fb-T\03\1fd\90#\83V\9eO\19%&2\bd\9c\14b\13~t\ec#\ec\85\a3_\ae\af~\ec\c3\99:\18\9d\91\e7,gg\8c\f7\99[\9e\e74@I\1e\02\bb\10|\a0\c0\b7:@\f9\c2\10!\c8\ed\12\c3\e9\14\9b\c8\b0eI\90\b7\f3T):\a9\173$\da\c1\fa\1c\bf[t\a50\aa\b3\88\93\1d\a0V(\b9\1crW\b9hg^Jp5|\12Hlr\e7\a3N\ad\e7B\01\f6\\\ccB\1b\17Z\07O\e1L\a2\98\a1\93\813t\7f\13\e2\1c\98d\d1\0cpe\ffD\fc0\a0\a8/L\0d\12\be\bd\05\10\cc>?V;=\c8\92;\9f\90\16.-\07\14\7f\0e\cf+\8aLzw\n\c74\1c=|\84l\0fia[\d6o\ac\8af\fc\a0\11L\9b\a5GS\c39\f2\cb\8bW-\80;\t\16\1f\02\8f\19(4\c8\ee\ben\ad8`\8a\8b\1bSa\f9\0f\99 =U7el#|67\11\a8\b9\f7S\bfh\8c*\85~G,\1b\04\85\15\12\a8\f5(\ef\82/u&^Y\f7!E\e6\1a\0b\89\99y\d5\b1=\t\d8\da\97:5\eb\cf\10N\eb\ff\d7J\1e\8d\0b\8e\d1=\89\02\e6\03\15\"\e6\ff\8d\ddep\8e\f1E\8d+\83\dfD\1a\d5\ef\bfx\aa?\06\f9\b6K8\fb\b1\0bk\10\ca\eb\ef\16\95\cfG\b7\a4^\06z\9e\ce\85\14\bd\e6\ab\\z\c3\19\e5M\f6\87\18FB\a7\196p\eby,\1a0\af\f0\f9T\cfk\89\08\10CLf\98\b7 \fc\dal8*\c3\c6\ab\n\14T\df\7f~\e5(\bb\11\88\c6\f4s\b8V\0d\19*\d7\1f\de\1e\f3)\16*\f8\f1\90f\acP\1fz\e6\d3J\f37\daM\1a;\97\1a\c0k\92\13\19\e0\88\1d\f0\c5P\e1\e0\t=!\b0\06w\18\1f\18\eb$l\f7\a4\19YL\8c)\\\c8\94\1e\13\ef\12\97\a3\1a\07\b0\b7\af\f7\999\fd\1c\13\d8\aa\d7|L\e1\08\9c\a5\9bu\00\88<\e4\17\8e\95\0d\9c\9f\19\0b\03\8f\02\93\00\aaK\dd\1dy}\88\c1\03\f0\e6a\99\e1[@JO\aa\12\d7\9c\ea\b1\04\ac`\ba\ff\d9r\d0\1c\e3T\17\0dDe\de\05\d7\f8\a8\7f\90\8f\04\e4\1b*\1d\88J\ff\aac\86\9b\c9O\ba\d9\82nQ:\12*\1d\bf\95\fcg\02\bc\e3(\90#\ca\e5\c8\16t\e4.\bb\fb\01\03\ab\1c3t\ac<\1f{\1c\c9N\fdT=\e1\e1\ea\f1\9f\c8\eb\85\f3\cc\11{\a2<\aa\8cY\9ae\ee\c7\bafg0@\16\1a\cb\cb\d4\ef\ef\00\ff\e9yi@\81<\d0\1b\f0^\ff\e4\f5\95`?2\ecA\c8\d0%b\11\ac6?^s\bb8\cf>gR\faD\af\ba\15W\04\cf5P\ea\06\83\0e\01\e78\16[)\1b\b6b\a1!rR\e4\11\a9`\90\e3\ed\d8\f9\10d\bb\t\aa\0eg]V\d3xt\\)O8\15=*\8cT\d2\c0\f4+\08\97\91\b3\f3b\86\1af\9a\d7t\83\f8x\1be\fe:P\d8\fd\93\10\00\81\0dR\a46Wb\fe\bdIdN\fd\b8\14@\e1\90fM\04\ed\fa}-\\\fd\a1<\e7\19\c8\8c\1a`\b0\"\d4\bcn\9cY>\e5\850\10\fa/!x\\+\tl\8a\03\f0\8d^\a7<\14\f8{)\963v\0b\07m\04l16\d1K\19\f6\da\b3{\c0S\ceH\88\05\c7\bd\83\c5\9e\1f\dahPMX\f4\80-uc\9cVr;\c3\13\10\83\a4`n1\e1xR|C\ecN\n\b4\18\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 34904) "Xh\00\00\8c\02\00\00")
+ (data (i32.const 34912) "\05\00\00\00a\00b\000\00.\001\00")
+ (data (i32.const 34928) "\02\00\00\00b\00a\00")
+ (data (i32.const 34936) "\02\00\00\00a\00a\00")
+ (data (i32.const 34944) "\03\00\00\00a\00a\00a\00")
+ (data (i32.const 34960) "\08\00\00\00a\00b\00a\00b\00a\00b\00a\00b\00")
+ (data (i32.const 34984) "\05\00\00\00a\00a\00a\00a\00a\00")
+ (data (i32.const 35000) "\06\00\00\00a\00a\00a\00a\00a\00a\00")
+ (data (i32.const 35016) "\07\00\00\00a\00a\00a\00a\00a\00a\00a\00")
+ (data (i32.const 35040) "\04\00\00\00a\00b\00c\00d\00")
+ (data (i32.const 35056) "\04\00\00\00a\00b\00c\00x\00")
+ (data (i32.const 35072) "\0d\00\00\00~\00l\00i\00b\00/\00a\00r\00r\00a\00y\00.\00t\00s\00")
+ (data (i32.const 35104) "\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s\00")
+ (data (i32.const 35168) "\08A\00\00\00\00\00\00\c0\00\00\00\02\00\00\00\c1\00\00\00B\00\00\00\c2\00\00\00\82\00\00\00\c3\00\00\00\c2\00\00\00\c4\00\00\00\02\01\00\00\c5\00\00\00B\01\00\00\c7\00\00\00\82\01\00\00\c8\00\00\00\c2\01\00\00\c9\00\00\00\02\02\00\00\ca\00\00\00B\02\00\00\cb\00\00\00\82\02\00\00\cc\00\00\00\c2\02\00\00\cd\00\00\00\02\03\00\00\ce\00\00\00B\03\00\00\cf\00\00\00\82\03\00\00\d1\00\00\00\c2\03\00\00\d2\00\00\00\02\04\00\00\d3\00\00\00B\04\00\00\d4\00\00\00\82\04\00\00\d5\00\00\00\c2\04\00\00\d6\00\00\00\02\05\00\00\d9\00\00\00B\05\00\00\da\00\00\00\82\05\00\00\db\00\00\00\c2\05\00\00\dc\00\00\00\02\06\00\00\dd\00\00\00B\06\00\00\e0\00\00\00\82\06\00\00\e1\00\00\00\c2\06\00\00\e2\00\00\00\02\07\00\00\e3\00\00\00B\07\00\00\e4\00\00\00\82\07\00\00\e5\00\00\00\c2\07\00\00\e7\00\00\00\02\08\00\00\e8\00\00\00B\08\00\00\e9\00\00\00\82\08\00\00\ea\00\00\00\c2\08\00\00\eb\00\00\00\02\t\00\00\ec\00\00\00B\t\00\00\ed\00\00\00\82\t\00\00\ee\00\00\00\c2\t\00\00\ef\00\00\00\02\n\00\00\f1\00\00\00B\n\00\00\f2\00\00\00\82\n\00\00\f3\00\00\00\c2\n\00\00\f4\00\00\00\02\0b\00\00\f5\00\00\00B\0b\00\00\f6\00\00\00\82\0b\00\00\f9\00\00\00\c2\0b\00\00\fa\00\00\00\02\0c\00\00\fb\00\00\00B\0c\00\00\fc\00\00\00\82\0c\00\00\fd\00\00\00\c2\0c\00\00\ff\00\00\00\02\0d\00\00\00\01\00\00B\0d\00\00\01\01\00\00\82\0d\00\00\02\01\00\00\c2\0d\00\00\03\01\00\00\02\0e\00\00\04\01\00\00B\0e\00\00\05\01\00\00\82\0e\00\00\06\01\00\00\c2\0e\00\00\07\01\00\00\02\0f\00\00\08\01\00\00B\0f\00\00\t\01\00\00\82\0f\00\00\n\01\00\00\c2\0f\00\00\0b\01\00\00\02\10\00\00\0c\01\00\00B\10\00\00\0d\01\00\00\82\10\00\00\0e\01\00\00\c2\10\00\00\0f\01\00\00\02\11\00\00\12\01\00\00B\11\00\00\13\01\00\00\82\11\00\00\14\01\00\00\c2\11\00\00\15\01\00\00\02\12\00\00\16\01\00\00B\12\00\00\17\01\00\00\82\12\00\00\18\01\00\00\c2\12\00\00\19\01\00\00\02\13\00\00\1a\01\00\00B\13\00\00\1b\01\00\00\82\13\00\00\1c\01\00\00\c2\13\00\00\1d\01\00\00\02\14\00\00\1e\01\00\00B\14\00\00\1f\01\00\00\82\14\00\00 \01\00\00\c2\14\00\00!\01\00\00\02\15\00\00\"\01\00\00B\15\00\00#\01\00\00\82\15\00\00$\01\00\00\c2\15\00\00%\01\00\00\02\16\00\00(\01\00\00B\16\00\00)\01\00\00\82\16\00\00*\01\00\00\c2\16\00\00+\01\00\00\02\17\00\00,\01\00\00B\17\00\00-\01\00\00\82\17\00\00.\01\00\00\c2\17\00\00/\01\00\00\02\18\00\000\01\00\00B\18\00\004\01\00\00\82\18\00\005\01\00\00\c2\18\00\006\01\00\00\02\19\00\007\01\00\00B\19\00\009\01\00\00\82\19\00\00:\01\00\00\c2\19\00\00;\01\00\00\02\1a\00\00<\01\00\00B\1a\00\00=\01\00\00\82\1a\00\00>\01\00\00\c2\1a\00\00C\01\00\00\02\1b\00\00D\01\00\00B\1b\00\00E\01\00\00\82\1b\00\00F\01\00\00\c2\1b\00\00G\01\00\00\02\1c\00\00H\01\00\00B\1c\00\00L\01\00\00\82\1c\00\00M\01\00\00\c2\1c\00\00N\01\00\00\02\1d\00\00O\01\00\00B\1d\00\00P\01\00\00\82\1d\00\00Q\01\00\00\c2\1d\00\00T\01\00\00\02\1e\00\00U\01\00\00B\1e\00\00V\01\00\00\82\1e\00\00W\01\00\00\c2\1e\00\00X\01\00\00\02\1f\00\00Y\01\00\00B\1f\00\00Z\01\00\00\82\1f\00\00[\01\00\00\c2\1f\00\00\\\01\00\00\02 \00\00]\01\00\00B \00\00^\01\00\00\82 \00\00_\01\00\00\c2 \00\00`\01\00\00\02!\00\00a\01\00\00B!\00\00b\01\00\00\82!\00\00c\01\00\00\c2!\00\00d\01\00\00\02\"\00\00e\01\00\00B\"\00\00h\01\00\00\82\"\00\00i\01\00\00\c2\"\00\00j\01\00\00\02#\00\00k\01\00\00B#\00\00l\01\00\00\82#\00\00m\01\00\00\c2#\00\00n\01\00\00\02$\00\00o\01\00\00B$\00\00p\01\00\00\82$\00\00q\01\00\00\c2$\00\00r\01\00\00\02%\00\00s\01\00\00B%\00\00t\01\00\00\82%\00\00u\01\00\00\c2%\00\00v\01\00\00\02&\00\00w\01\00\00B&\00\00x\01\00\00\82&\00\00y\01\00\00\c2&\00\00z\01\00\00\02\'\00\00{\01\00\00B\'\00\00|\01\00\00\82\'\00\00}\01\00\00\c2\'\00\00~\01\00\00\02(\00\00\a0\01\00\00B(\00\00\a1\01\00\00\82(\00\00\af\01\00\00\c2(\00\00\b0\01\00\00\02)\00\00\cd\01\00\00B)\00\00\ce\01\00\00\82)\00\00\cf\01\00\00\c2)\00\00\d0\01\00\00\02*\00\00\d1\01\00\00B*\00\00\d2\01\00\00\82*\00\00\d3\01\00\00\c2*\00\00\d4\01\00\00\02+\00\00\d5\01\00\00C+\00\00\d6\01\00\00\a3+\00\00\d7\01\00\00\03,\00\00\d8\01\00\00c,\00\00\d9\01\00\00\c3,\00\00\da\01\00\00#-\00\00\db\01\00\00\83-\00\00\dc\01\00\00\e3-\00\00\de\01\00\00C.\00\00\df\01\00\00\a3.\00\00\e0\01\00\00\03/\00\00\e1\01\00\00c/\00\00\e2\01\00\00\c2/\00\00\e3\01\00\00\020\00\00\e6\01\00\00B0\00\00\e7\01\00\00\820\00\00\e8\01\00\00\c20\00\00\e9\01\00\00\021\00\00\ea\01\00\00B1\00\00\eb\01\00\00\821\00\00\ec\01\00\00\c31\00\00\ed\01\00\00#2\00\00\ee\01\00\00\822\00\00\ef\01\00\00\c22\00\00\f0\01\00\00\023\00\00\f4\01\00\00B3\00\00\f5\01\00\00\823\00\00\f8\01\00\00\c23\00\00\f9\01\00\00\024\00\00\fa\01\00\00C4\00\00\fb\01\00\00\a34\00\00\fc\01\00\00\025\00\00\fd\01\00\00B5\00\00\fe\01\00\00\825\00\00\ff\01\00\00\c25\00\00\00\02\00\00\026\00\00\01\02\00\00B6\00\00\02\02\00\00\826\00\00\03\02\00\00\c26\00\00\04\02\00\00\027\00\00\05\02\00\00B7\00\00\06\02\00\00\827\00\00\07\02\00\00\c27\00\00\08\02\00\00\028\00\00\t\02\00\00B8\00\00\n\02\00\00\828\00\00\0b\02\00\00\c28\00\00\0c\02\00\00\029\00\00\0d\02\00\00B9\00\00\0e\02\00\00\829\00\00\0f\02\00\00\c29\00\00\10\02\00\00\02:\00\00\11\02\00\00B:\00\00\12\02\00\00\82:\00\00\13\02\00\00\c2:\00\00\14\02\00\00\02;\00\00\15\02\00\00B;\00\00\16\02\00\00\82;\00\00\17\02\00\00\c2;\00\00\18\02\00\00\02<\00\00\19\02\00\00B<\00\00\1a\02\00\00\82<\00\00\1b\02\00\00\c2<\00\00\1e\02\00\00\02=\00\00\1f\02\00\00B=\00\00&\02\00\00\82=\00\00\'\02\00\00\c2=\00\00(\02\00\00\02>\00\00)\02\00\00B>\00\00*\02\00\00\83>\00\00+\02\00\00\e3>\00\00,\02\00\00C?\00\00-\02\00\00\a3?\00\00.\02\00\00\02@\00\00/\02\00\00B@\00\000\02\00\00\83@\00\001\02\00\00\e3@\00\002\02\00\00BA\00\003\02\00\00\82A\00\00@\03\00\00\c1A\00\00A\03\00\00\e1A\00\00C\03\00\00\01B\00\00D\03\00\00\"B\00\00t\03\00\00aB\00\00~\03\00\00\81B\00\00\85\03\00\00\a2B\00\00\86\03\00\00\e2B\00\00\87\03\00\00!C\00\00\88\03\00\00BC\00\00\89\03\00\00\82C\00\00\8a\03\00\00\c2C\00\00\8c\03\00\00\02D\00\00\8e\03\00\00BD\00\00\8f\03\00\00\82D\00\00\90\03\00\00\c3D\00\00\aa\03\00\00\"E\00\00\ab\03\00\00bE\00\00\ac\03\00\00\a2E\00\00\ad\03\00\00\e2E\00\00\ae\03\00\00\"F\00\00\af\03\00\00bF\00\00\b0\03\00\00\a3F\00\00\ca\03\00\00\02G\00\00\cb\03\00\00BG\00\00\cc\03\00\00\82G\00\00\cd\03\00\00\c2G\00\00\ce\03\00\00\02H\00\00\d3\03\00\00BH\00\00\d4\03\00\00\82H\00\00\00\04\00\00\c2H\00\00\01\04\00\00\02I\00\00\03\04\00\00BI\00\00\07\04\00\00\82I\00\00\0c\04\00\00\c2I\00\00\0d\04\00\00\02J\00\00\0e\04\00\00BJ\00\00\19\04\00\00\82J\00\009\04\00\00\c2J\00\00P\04\00\00\02K\00\00Q\04\00\00BK\00\00S\04\00\00\82K\00\00W\04\00\00\c2K\00\00\\\04\00\00\02L\00\00]\04\00\00BL\00\00^\04\00\00\82L\00\00v\04\00\00\c2L\00\00w\04\00\00\02M\00\00\c1\04\00\00BM\00\00\c2\04\00\00\82M\00\00\d0\04\00\00\c2M\00\00\d1\04\00\00\02N\00\00\d2\04\00\00BN\00\00\d3\04\00\00\82N\00\00\d6\04\00\00\c2N\00\00\d7\04\00\00\02O\00\00\da\04\00\00BO\00\00\db\04\00\00\82O\00\00\dc\04\00\00\c2O\00\00\dd\04\00\00\02P\00\00\de\04\00\00BP\00\00\df\04\00\00\82P\00\00\e2\04\00\00\c2P\00\00\e3\04\00\00\02Q\00\00\e4\04\00\00BQ\00\00\e5\04\00\00\82Q\00\00\e6\04\00\00\c2Q\00\00\e7\04\00\00\02R\00\00\ea\04\00\00BR\00\00\eb\04\00\00\82R\00\00\ec\04\00\00\c2R\00\00\ed\04\00\00\02S\00\00\ee\04\00\00BS\00\00\ef\04\00\00\82S\00\00\f0\04\00\00\c2S\00\00\f1\04\00\00\02T\00\00\f2\04\00\00BT\00\00\f3\04\00\00\82T\00\00\f4\04\00\00\c2T\00\00\f5\04\00\00\02U\00\00\f8\04\00\00BU\00\00\f9\04\00\00\82U\00\00\"\06\00\00\c2U\00\00#\06\00\00\02V\00\00$\06\00\00BV\00\00%\06\00\00\82V\00\00&\06\00\00\c2V\00\00\c0\06\00\00\02W\00\00\c2\06\00\00BW\00\00\d3\06\00\00\82W\00\00)\t\00\00\c2W\00\001\t\00\00\02X\00\004\t\00\00BX\00\00X\t\00\00\82X\00\00Y\t\00\00\c2X\00\00Z\t\00\00\02Y\00\00[\t\00\00BY\00\00\\\t\00\00\82Y\00\00]\t\00\00\c2Y\00\00^\t\00\00\02Z\00\00_\t\00\00BZ\00\00\cb\t\00\00\82Z\00\00\cc\t\00\00\c2Z\00\00\dc\t\00\00\02[\00\00\dd\t\00\00B[\00\00\df\t\00\00\82[\00\003\n\00\00\c2[\00\006\n\00\00\02\\\00\00Y\n\00\00B\\\00\00Z\n\00\00\82\\\00\00[\n\00\00\c2\\\00\00^\n\00\00\02]\00\00H\0b\00\00B]\00\00K\0b\00\00\82]\00\00L\0b\00\00\c2]\00\00\\\0b\00\00\02^\00\00]\0b\00\00B^\00\00\94\0b\00\00\82^\00\00\ca\0b\00\00\c2^\00\00\cb\0b\00\00\02_\00\00\cc\0b\00\00B_\00\00H\0c\00\00\82_\00\00\c0\0c\00\00\c2_\00\00\c7\0c\00\00\02`\00\00\c8\0c\00\00B`\00\00\ca\0c\00\00\82`\00\00\cb\0c\00\00\c3`\00\00J\0d\00\00\"a\00\00K\0d\00\00ba\00\00L\0d\00\00\a2a\00\00\da\0d\00\00\e2a\00\00\dc\0d\00\00\"b\00\00\dd\0d\00\00cb\00\00\de\0d\00\00\c2b\00\00C\0f\00\00\02c\00\00M\0f\00\00Bc\00\00R\0f\00\00\82c\00\00W\0f\00\00\c2c\00\00\\\0f\00\00\02d\00\00i\0f\00\00Bd\00\00s\0f\00\00\82d\00\00u\0f\00\00\c2d\00\00v\0f\00\00\02e\00\00x\0f\00\00Be\00\00\81\0f\00\00\82e\00\00\93\0f\00\00\c2e\00\00\9d\0f\00\00\02f\00\00\a2\0f\00\00Bf\00\00\a7\0f\00\00\82f\00\00\ac\0f\00\00\c2f\00\00\b9\0f\00\00\02g\00\00&\10\00\00Bg\00\00\06\1b\00\00\82g\00\00\08\1b\00\00\c2g\00\00\n\1b\00\00\02h\00\00\0c\1b\00\00Bh\00\00\0e\1b\00\00\82h\00\00\12\1b\00\00\c2h\00\00;\1b\00\00\02i\00\00=\1b\00\00Bi\00\00@\1b\00\00\82i\00\00A\1b\00\00\c2i\00\00C\1b\00\00\02j\00\00\00\1e\00\00Bj\00\00\01\1e\00\00\82j\00\00\02\1e\00\00\c2j\00\00\03\1e\00\00\02k\00\00\04\1e\00\00Bk\00\00\05\1e\00\00\82k\00\00\06\1e\00\00\c2k\00\00\07\1e\00\00\02l\00\00\08\1e\00\00Cl\00\00\t\1e\00\00\a3l\00\00\n\1e\00\00\02m\00\00\0b\1e\00\00Bm\00\00\0c\1e\00\00\82m\00\00\0d\1e\00\00\c2m\00\00\0e\1e\00\00\02n\00\00\0f\1e\00\00Bn\00\00\10\1e\00\00\82n\00\00\11\1e\00\00\c2n\00\00\12\1e\00\00\02o\00\00\13\1e\00\00Bo\00\00\14\1e\00\00\83o\00\00\15\1e\00\00\e3o\00\00\16\1e\00\00Cp\00\00\17\1e\00\00\a3p\00\00\18\1e\00\00\02q\00\00\19\1e\00\00Bq\00\00\1a\1e\00\00\82q\00\00\1b\1e\00\00\c2q\00\00\1c\1e\00\00\03r\00\00\1d\1e\00\00cr\00\00\1e\1e\00\00\c2r\00\00\1f\1e\00\00\02s\00\00 \1e\00\00Bs\00\00!\1e\00\00\82s\00\00\"\1e\00\00\c2s\00\00#\1e\00\00\02t\00\00$\1e\00\00Bt\00\00%\1e\00\00\82t\00\00&\1e\00\00\c2t\00\00\'\1e\00\00\02u\00\00(\1e\00\00Bu\00\00)\1e\00\00\82u\00\00*\1e\00\00\c2u\00\00+\1e\00\00\02v\00\00,\1e\00\00Bv\00\00-\1e\00\00\82v\00\00.\1e\00\00\c3v\00\00/\1e\00\00#w\00\000\1e\00\00\82w\00\001\1e\00\00\c2w\00\002\1e\00\00\02x\00\003\1e\00\00Bx\00\004\1e\00\00\82x\00\005\1e\00\00\c2x\00\006\1e\00\00\02y\00\007\1e\00\00By\00\008\1e\00\00\83y\00\009\1e\00\00\e3y\00\00:\1e\00\00Bz\00\00;\1e\00\00\82z\00\00<\1e\00\00\c2z\00\00=\1e\00\00\02{\00\00>\1e\00\00B{\00\00?\1e\00\00\82{\00\00@\1e\00\00\c2{\00\00A\1e\00\00\02|\00\00B\1e\00\00B|\00\00C\1e\00\00\82|\00\00D\1e\00\00\c2|\00\00E\1e\00\00\02}\00\00F\1e\00\00B}\00\00G\1e\00\00\82}\00\00H\1e\00\00\c2}\00\00I\1e\00\00\02~\00\00J\1e\00\00B~\00\00K\1e\00\00\82~\00\00L\1e\00\00\c3~\00\00M\1e\00\00#\7f\00\00N\1e\00\00\83\7f\00\00O\1e\00\00\e3\7f\00\00P\1e\00\00C\80\00\00Q\1e\00\00\a3\80\00\00R\1e\00\00\03\81\00\00S\1e\00\00c\81\00\00T\1e\00\00\c2\81\00\00U\1e\00\00\02\82\00\00V\1e\00\00B\82\00\00W\1e\00\00\82\82\00\00X\1e\00\00\c2\82\00\00Y\1e\00\00\02\83\00\00Z\1e\00\00B\83\00\00[\1e\00\00\82\83\00\00\\\1e\00\00\c3\83\00\00]\1e\00\00#\84\00\00^\1e\00\00\82\84\00\00_\1e\00\00\c2\84\00\00`\1e\00\00\02\85\00\00a\1e\00\00B\85\00\00b\1e\00\00\82\85\00\00c\1e\00\00\c2\85\00\00d\1e\00\00\03\86\00\00e\1e\00\00c\86\00\00f\1e\00\00\c3\86\00\00g\1e\00\00#\87\00\00h\1e\00\00\83\87\00\00i\1e\00\00\e3\87\00\00j\1e\00\00B\88\00\00k\1e\00\00\82\88\00\00l\1e\00\00\c2\88\00\00m\1e\00\00\02\89\00\00n\1e\00\00B\89\00\00o\1e\00\00\82\89\00\00p\1e\00\00\c2\89\00\00q\1e\00\00\02\8a\00\00r\1e\00\00B\8a\00\00s\1e\00\00\82\8a\00\00t\1e\00\00\c2\8a\00\00u\1e\00\00\02\8b\00\00v\1e\00\00B\8b\00\00w\1e\00\00\82\8b\00\00x\1e\00\00\c3\8b\00\00y\1e\00\00#\8c\00\00z\1e\00\00\83\8c\00\00{\1e\00\00\e3\8c\00\00|\1e\00\00B\8d\00\00}\1e\00\00\82\8d\00\00~\1e\00\00\c2\8d\00\00\7f\1e\00\00\02\8e\00\00\80\1e\00\00B\8e\00\00\81\1e\00\00\82\8e\00\00\82\1e\00\00\c2\8e\00\00\83\1e\00\00\02\8f\00\00\84\1e\00\00B\8f\00\00\85\1e\00\00\82\8f\00\00\86\1e\00\00\c2\8f\00\00\87\1e\00\00\02\90\00\00\88\1e\00\00B\90\00\00\89\1e\00\00\82\90\00\00\8a\1e\00\00\c2\90\00\00\8b\1e\00\00\02\91\00\00\8c\1e\00\00B\91\00\00\8d\1e\00\00\82\91\00\00\8e\1e\00\00\c2\91\00\00\8f\1e\00\00\02\92\00\00\90\1e\00\00B\92\00\00\91\1e\00\00\82\92\00\00\92\1e\00\00\c2\92\00\00\93\1e\00\00\02\93\00\00\94\1e\00\00B\93\00\00\95\1e\00\00\82\93\00\00\96\1e\00\00\c2\93\00\00\97\1e\00\00\02\94\00\00\98\1e\00\00B\94\00\00\99\1e\00\00\82\94\00\00\9b\1e\00\00\c2\94\00\00\a0\1e\00\00\02\95\00\00\a1\1e\00\00B\95\00\00\a2\1e\00\00\82\95\00\00\a3\1e\00\00\c2\95\00\00\a4\1e\00\00\03\96\00\00\a5\1e\00\00c\96\00\00\a6\1e\00\00\c3\96\00\00\a7\1e\00\00#\97\00\00\a8\1e\00\00\83\97\00\00\a9\1e\00\00\e3\97\00\00\aa\1e\00\00C\98\00\00\ab\1e\00\00\a3\98\00\00\ac\1e\00\00\03\99\00\00\ad\1e\00\00c\99\00\00\ae\1e\00\00\c3\99\00\00\af\1e\00\00#\9a\00\00\b0\1e\00\00\83\9a\00\00\b1\1e\00\00\e3\9a\00\00\b2\1e\00\00C\9b\00\00\b3\1e\00\00\a3\9b\00\00\b4\1e\00\00\03\9c\00\00\b5\1e\00\00c\9c\00\00\b6\1e\00\00\c3\9c\00\00\b7\1e\00\00#\9d\00\00\b8\1e\00\00\82\9d\00\00\b9\1e\00\00\c2\9d\00\00\ba\1e\00\00\02\9e\00\00\bb\1e\00\00B\9e\00\00\bc\1e\00\00\82\9e\00\00\bd\1e\00\00\c2\9e\00\00\be\1e\00\00\03\9f\00\00\bf\1e\00\00c\9f\00\00\c0\1e\00\00\c3\9f\00\00\c1\1e\00\00#\a0\00\00\c2\1e\00\00\83\a0\00\00\c3\1e\00\00\e3\a0\00\00\c4\1e\00\00C\a1\00\00\c5\1e\00\00\a3\a1\00\00\c6\1e\00\00\03\a2\00\00\c7\1e\00\00c\a2\00\00\c8\1e\00\00\c2\a2\00\00\c9\1e\00\00\02\a3\00\00\ca\1e\00\00B\a3\00\00\cb\1e\00\00\82\a3\00\00\cc\1e\00\00\c2\a3\00\00\cd\1e\00\00\02\a4\00\00\ce\1e\00\00B\a4\00\00\cf\1e\00\00\82\a4\00\00\d0\1e\00\00\c3\a4\00\00\d1\1e\00\00#\a5\00\00\d2\1e\00\00\83\a5\00\00\d3\1e\00\00\e3\a5\00\00\d4\1e\00\00C\a6\00\00\d5\1e\00\00\a3\a6\00\00\d6\1e\00\00\03\a7\00\00\d7\1e\00\00c\a7\00\00\d8\1e\00\00\c3\a7\00\00\d9\1e\00\00#\a8\00\00\da\1e\00\00\83\a8\00\00\db\1e\00\00\e3\a8\00\00\dc\1e\00\00C\a9\00\00\dd\1e\00\00\a3\a9\00\00\de\1e\00\00\03\aa\00\00\df\1e\00\00c\aa\00\00\e0\1e\00\00\c3\aa\00\00\e1\1e\00\00#\ab\00\00\e2\1e\00\00\83\ab\00\00\e3\1e\00\00\e3\ab\00\00\e4\1e\00\00B\ac\00\00\e5\1e\00\00\82\ac\00\00\e6\1e\00\00\c2\ac\00\00\e7\1e\00\00\02\ad\00\00\e8\1e\00\00C\ad\00\00\e9\1e\00\00\a3\ad\00\00\ea\1e\00\00\03\ae\00\00\eb\1e\00\00c\ae\00\00\ec\1e\00\00\c3\ae\00\00\ed\1e\00\00#\af\00\00\ee\1e\00\00\83\af\00\00\ef\1e\00\00\e3\af\00\00\f0\1e\00\00C\b0\00\00\f1\1e\00\00\a3\b0\00\00\f2\1e\00\00\02\b1\00\00\f3\1e\00\00B\b1\00\00\f4\1e\00\00\82\b1\00\00\f5\1e\00\00\c2\b1\00\00\f6\1e\00\00\02\b2\00\00\f7\1e\00\00B\b2\00\00\f8\1e\00\00\82\b2\00\00\f9\1e\00\00\c2\b2\00\00\00\1f\00\00\02\b3\00\00\01\1f\00\00B\b3\00\00\02\1f\00\00\83\b3\00\00\03\1f\00\00\e3\b3\00\00\04\1f\00\00C\b4\00\00\05\1f\00\00\a3\b4\00\00\06\1f\00\00\03\b5\00\00\07\1f\00\00c\b5\00\00\08\1f\00\00\c2\b5\00\00\t\1f\00\00\02\b6\00\00\n\1f\00\00C\b6\00\00\0b\1f\00\00\a3\b6\00\00\0c\1f\00\00\03\b7\00\00\0d\1f\00\00c\b7\00\00\0e\1f\00\00\c3\b7\00\00\0f\1f\00\00#\b8\00\00\10\1f\00\00\82\b8\00\00\11\1f\00\00\c2\b8\00\00\12\1f\00\00\03\b9\00\00\13\1f\00\00c\b9\00\00\14\1f\00\00\c3\b9\00\00\15\1f\00\00#\ba\00\00\18\1f\00\00\82\ba\00\00\19\1f\00\00\c2\ba\00\00\1a\1f\00\00\03\bb\00\00\1b\1f\00\00c\bb\00\00\1c\1f\00\00\c3\bb\00\00\1d\1f\00\00#\bc\00\00 \1f\00\00\82\bc\00\00!\1f\00\00\c2\bc\00\00\"\1f\00\00\03\bd\00\00#\1f\00\00c\bd\00\00$\1f\00\00\c3\bd\00\00%\1f\00\00#\be\00\00&\1f\00\00\83\be\00\00\'\1f\00\00\e3\be\00\00(\1f\00\00B\bf\00\00)\1f\00\00\82\bf\00\00*\1f\00\00\c3\bf\00\00+\1f\00\00#\c0\00\00,\1f\00\00\83\c0\00\00-\1f\00\00\e3\c0\00\00.\1f\00\00C\c1\00\00/\1f\00\00\a3\c1\00\000\1f\00\00\02\c2\00\001\1f\00\00B\c2\00\002\1f\00\00\83\c2\00\003\1f\00\00\e3\c2\00\004\1f\00\00C\c3\00\005\1f\00\00\a3\c3\00\006\1f\00\00\03\c4\00\007\1f\00\00c\c4\00\008\1f\00\00\c2\c4\00\009\1f\00\00\02\c5\00\00:\1f\00\00C\c5\00\00;\1f\00\00\a3\c5\00\00<\1f\00\00\03\c6\00\00=\1f\00\00c\c6\00\00>\1f\00\00\c3\c6\00\00?\1f\00\00#\c7\00\00@\1f\00\00\82\c7\00\00A\1f\00\00\c2\c7\00\00B\1f\00\00\03\c8\00\00C\1f\00\00c\c8\00\00D\1f\00\00\c3\c8\00\00E\1f\00\00#\c9\00\00H\1f\00\00\82\c9\00\00I\1f\00\00\c2\c9\00\00J\1f\00\00\03\ca\00\00K\1f\00\00c\ca\00\00L\1f\00\00\c3\ca\00\00M\1f\00\00#\cb\00\00P\1f\00\00\82\cb\00\00Q\1f\00\00\c2\cb\00\00R\1f\00\00\03\cc\00\00S\1f\00\00c\cc\00\00T\1f\00\00\c3\cc\00\00U\1f\00\00#\cd\00\00V\1f\00\00\83\cd\00\00W\1f\00\00\e3\cd\00\00Y\1f\00\00B\ce\00\00[\1f\00\00\83\ce\00\00]\1f\00\00\e3\ce\00\00_\1f\00\00C\cf\00\00`\1f\00\00\a2\cf\00\00a\1f\00\00\e2\cf\00\00b\1f\00\00#\d0\00\00c\1f\00\00\83\d0\00\00d\1f\00\00\e3\d0\00\00e\1f\00\00C\d1\00\00f\1f\00\00\a3\d1\00\00g\1f\00\00\03\d2\00\00h\1f\00\00b\d2\00\00i\1f\00\00\a2\d2\00\00j\1f\00\00\e3\d2\00\00k\1f\00\00C\d3\00\00l\1f\00\00\a3\d3\00\00m\1f\00\00\03\d4\00\00n\1f\00\00c\d4\00\00o\1f\00\00\c3\d4\00\00p\1f\00\00\"\d5\00\00q\1f\00\00b\d5\00\00r\1f\00\00\a2\d5\00\00s\1f\00\00\e2\d5\00\00t\1f\00\00\"\d6\00\00u\1f\00\00b\d6\00\00v\1f\00\00\a2\d6\00\00w\1f\00\00\e2\d6\00\00x\1f\00\00\"\d7\00\00y\1f\00\00b\d7\00\00z\1f\00\00\a2\d7\00\00{\1f\00\00\e2\d7\00\00|\1f\00\00\"\d8\00\00}\1f\00\00b\d8\00\00\80\1f\00\00\a3\d8\00\00\81\1f\00\00\03\d9\00\00\82\1f\00\00d\d9\00\00\83\1f\00\00\e4\d9\00\00\84\1f\00\00d\da\00\00\85\1f\00\00\e4\da\00\00\86\1f\00\00d\db\00\00\87\1f\00\00\e4\db\00\00\88\1f\00\00c\dc\00\00\89\1f\00\00\c3\dc\00\00\8a\1f\00\00$\dd\00\00\8b\1f\00\00\a4\dd\00\00\8c\1f\00\00$\de\00\00\8d\1f\00\00\a4\de\00\00\8e\1f\00\00$\df\00\00\8f\1f\00\00\a4\df\00\00\90\1f\00\00#\e0\00\00\91\1f\00\00\83\e0\00\00\92\1f\00\00\e4\e0\00\00\93\1f\00\00d\e1\00\00\94\1f\00\00\e4\e1\00\00\95\1f\00\00d\e2\00\00\96\1f\00\00\e4\e2\00\00\97\1f\00\00d\e3\00\00\98\1f\00\00\e3\e3\00\00\99\1f\00\00C\e4\00\00\9a\1f\00\00\a4\e4\00\00\9b\1f\00\00$\e5\00\00\9c\1f\00\00\a4\e5\00\00\9d\1f\00\00$\e6\00\00\9e\1f\00\00\a4\e6\00\00\9f\1f\00\00$\e7\00\00\a0\1f\00\00\a3\e7\00\00\a1\1f\00\00\03\e8\00\00\a2\1f\00\00d\e8\00\00\a3\1f\00\00\e4\e8\00\00\a4\1f\00\00d\e9\00\00\a5\1f\00\00\e4\e9\00\00\a6\1f\00\00d\ea\00\00\a7\1f\00\00\e4\ea\00\00\a8\1f\00\00c\eb\00\00\a9\1f\00\00\c3\eb\00\00\aa\1f\00\00$\ec\00\00\ab\1f\00\00\a4\ec\00\00\ac\1f\00\00$\ed\00\00\ad\1f\00\00\a4\ed\00\00\ae\1f\00\00$\ee\00\00\af\1f\00\00\a4\ee\00\00\b0\1f\00\00\"\ef\00\00\b1\1f\00\00b\ef\00\00\b2\1f\00\00\a3\ef\00\00\b3\1f\00\00\02\f0\00\00\b4\1f\00\00C\f0\00\00\b6\1f\00\00\a2\f0\00\00\b7\1f\00\00\e3\f0\00\00\b8\1f\00\00B\f1\00\00\b9\1f\00\00\82\f1\00\00\ba\1f\00\00\c2\f1\00\00\bb\1f\00\00\02\f2\00\00\bc\1f\00\00B\f2\00\00\be\1f\00\00\81\f2\00\00\c1\1f\00\00\a2\f2\00\00\c2\1f\00\00\e3\f2\00\00\c3\1f\00\00B\f3\00\00\c4\1f\00\00\83\f3\00\00\c6\1f\00\00\e2\f3\00\00\c7\1f\00\00#\f4\00\00\c8\1f\00\00\82\f4\00\00\c9\1f\00\00\c2\f4\00\00\ca\1f\00\00\02\f5\00\00\cb\1f\00\00B\f5\00\00\cc\1f\00\00\82\f5\00\00\cd\1f\00\00\c2\f5\00\00\ce\1f\00\00\02\f6\00\00\cf\1f\00\00B\f6\00\00\d0\1f\00\00\82\f6\00\00\d1\1f\00\00\c2\f6\00\00\d2\1f\00\00\03\f7\00\00\d3\1f\00\00c\f7\00\00\d6\1f\00\00\c2\f7\00\00\d7\1f\00\00\03\f8\00\00\d8\1f\00\00b\f8\00\00\d9\1f\00\00\a2\f8\00\00\da\1f\00\00\e2\f8\00\00\db\1f\00\00\"\f9\00\00\dd\1f\00\00b\f9\00\00\de\1f\00\00\a2\f9\00\00\df\1f\00\00\e2\f9\00\00\e0\1f\00\00\"\fa\00\00\e1\1f\00\00b\fa\00\00\e2\1f\00\00\a3\fa\00\00\e3\1f\00\00\03\fb\00\00\e4\1f\00\00b\fb\00\00\e5\1f\00\00\a2\fb\00\00\e6\1f\00\00\e2\fb\00\00\e7\1f\00\00#\fc\00\00\e8\1f\00\00\82\fc\00\00\e9\1f\00\00\c2\fc\00\00\ea\1f\00\00\02\fd\00\00\eb\1f\00\00B\fd\00\00\ec\1f\00\00\82\fd\00\00\ed\1f\00\00\c2\fd\00\00\ee\1f\00\00\02\fe\00\00\ef\1f\00\00A\fe\00\00\f2\1f\00\00c\fe\00\00\f3\1f\00\00\c2\fe\00\00\f4\1f\00\00\03\ff\00\00\f6\1f\00\00b\ff\00\00\f7\1f\00\00\a3\ff\00\00\f8\1f\00\00\02\00\01\00\f9\1f\00\00B\00\01\00\fa\1f\00\00\82\00\01\00\fb\1f\00\00\c2\00\01\00\fc\1f\00\00\02\01\01\00\fd\1f\00\00A\01\01\00\00 \00\00a\01\01\00\01 \00\00\81\01\01\00&!\00\00\a1\01\01\00*!\00\00\c1\01\01\00+!\00\00\e2\01\01\00\9a!\00\00\"\02\01\00\9b!\00\00b\02\01\00\ae!\00\00\a2\02\01\00\cd!\00\00\e2\02\01\00\ce!\00\00\"\03\01\00\cf!\00\00b\03\01\00\04\"\00\00\a2\03\01\00\t\"\00\00\e2\03\01\00\0c\"\00\00\"\04\01\00$\"\00\00b\04\01\00&\"\00\00\a2\04\01\00A\"\00\00\e2\04\01\00D\"\00\00\"\05\01\00G\"\00\00b\05\01\00I\"\00\00\a2\05\01\00`\"\00\00\e2\05\01\00b\"\00\00\"\06\01\00m\"\00\00b\06\01\00n\"\00\00\a2\06\01\00o\"\00\00\e2\06\01\00p\"\00\00\"\07\01\00q\"\00\00b\07\01\00t\"\00\00\a2\07\01\00u\"\00\00\e2\07\01\00x\"\00\00\"\08\01\00y\"\00\00b\08\01\00\80\"\00\00\a2\08\01\00\81\"\00\00\e2\08\01\00\84\"\00\00\"\t\01\00\85\"\00\00b\t\01\00\88\"\00\00\a2\t\01\00\89\"\00\00\e2\t\01\00\ac\"\00\00\"\n\01\00\ad\"\00\00b\n\01\00\ae\"\00\00\a2\n\01\00\af\"\00\00\e2\n\01\00\e0\"\00\00\"\0b\01\00\e1\"\00\00b\0b\01\00\e2\"\00\00\a2\0b\01\00\e3\"\00\00\e2\0b\01\00\ea\"\00\00\"\0c\01\00\eb\"\00\00b\0c\01\00\ec\"\00\00\a2\0c\01\00\ed\"\00\00\e2\0c\01\00)#\00\00!\0d\01\00*#\00\00A\0d\01\00\dc*\00\00b\0d\01\00L0\00\00\a2\0d\01\00N0\00\00\e2\0d\01\00P0\00\00\"\0e\01\00R0\00\00b\0e\01\00T0\00\00\a2\0e\01\00V0\00\00\e2\0e\01\00X0\00\00\"\0f\01\00Z0\00\00b\0f\01\00\\0\00\00\a2\0f\01\00^0\00\00\e2\0f\01\00`0\00\00\"\10\01\00b0\00\00b\10\01\00e0\00\00\a2\10\01\00g0\00\00\e2\10\01\00i0\00\00\"\11\01\00p0\00\00b\11\01\00q0\00\00\a2\11\01\00s0\00\00\e2\11\01\00t0\00\00\"\12\01\00v0\00\00b\12\01\00w0\00\00\a2\12\01\00y0\00\00\e2\12\01\00z0\00\00\"\13\01\00|0\00\00b\13\01\00}0\00\00\a2\13\01\00\940\00\00\e2\13\01\00\9e0\00\00\"\14\01\00\ac0\00\00b\14\01\00\ae0\00\00\a2\14\01\00\b00\00\00\e2\14\01\00\b20\00\00\"\15\01\00\b40\00\00b\15\01\00\b60\00\00\a2\15\01\00\b80\00\00\e2\15\01\00\ba0\00\00\"\16\01\00\bc0\00\00b\16\01\00\be0\00\00\a2\16\01\00\c00\00\00\e2\16\01\00\c20\00\00\"\17\01\00\c50\00\00b\17\01\00\c70\00\00\a2\17\01\00\c90\00\00\e2\17\01\00\d00\00\00\"\18\01\00\d10\00\00b\18\01\00\d30\00\00\a2\18\01\00\d40\00\00\e2\18\01\00\d60\00\00\"\19\01\00\d70\00\00b\19\01\00\d90\00\00\a2\19\01\00\da0\00\00\e2\19\01\00\dc0\00\00\"\1a\01\00\dd0\00\00b\1a\01\00\f40\00\00\a2\1a\01\00\f70\00\00\e2\1a\01\00\f80\00\00\"\1b\01\00\f90\00\00b\1b\01\00\fa0\00\00\a2\1b\01\00\fe0\00\00\e2\1b\01\00\00\f9\00\00!\1c\01\00\01\f9\00\00A\1c\01\00\02\f9\00\00a\1c\01\00\03\f9\00\00\81\1c\01\00\04\f9\00\00\a1\1c\01\00\05\f9\00\00\c1\1c\01\00\06\f9\00\00\e1\1c\01\00\07\f9\00\00\01\1d\01\00\08\f9\00\00!\1d\01\00\t\f9\00\00A\1d\01\00\n\f9\00\00a\1d\01\00\0b\f9\00\00\81\1d\01\00\0c\f9\00\00\a1\1d\01\00\0d\f9\00\00\c1\1d\01\00\0e\f9\00\00\e1\1d\01\00\0f\f9\00\00\01\1e\01\00\10\f9\00\00!\1e\01\00\11\f9\00\00A\1e\01\00\12\f9\00\00a\1e\01\00\13\f9\00\00\81\1e\01\00\14\f9\00\00\a1\1e\01\00\15\f9\00\00\c1\1e\01\00\16\f9\00\00\e1\1e\01\00\17\f9\00\00\01\1f\01\00\18\f9\00\00!\1f\01\00\19\f9\00\00A\1f\01\00\1a\f9\00\00a\1f\01\00\1b\f9\00\00\81\1f\01\00\1c\f9\00\00\a1\1f\01\00\1d\f9\00\00\c1\1f\01\00\1e\f9\00\00\e1\1f\01\00\1f\f9\00\00\01 \01\00 \f9\00\00! \01\00!\f9\00\00A \01\00\"\f9\00\00a \01\00#\f9\00\00\81 \01\00$\f9\00\00\a1 \01\00%\f9\00\00\c1 \01\00&\f9\00\00\e1 \01\00\'\f9\00\00\01!\01\00(\f9\00\00!!\01\00)\f9\00\00A!\01\00*\f9\00\00a!\01\00+\f9\00\00\81!\01\00,\f9\00\00\a1!\01\00-\f9\00\00\c1!\01\00.\f9\00\00\e1!\01\00/\f9\00\00\01\"\01\000\f9\00\00!\"\01\001\f9\00\00A\"\01\002\f9\00\00a\"\01\003\f9\00\00\81\"\01\004\f9\00\00\a1\"\01\005\f9\00\00\c1\"\01\006\f9\00\00\e1\"\01\007\f9\00\00\01#\01\008\f9\00\00!#\01\009\f9\00\00A#\01\00:\f9\00\00a#\01\00;\f9\00\00\81#\01\00<\f9\00\00\a1#\01\00=\f9\00\00\c1#\01\00>\f9\00\00\e1#\01\00?\f9\00\00\01$\01\00@\f9\00\00!$\01\00A\f9\00\00A$\01\00B\f9\00\00a$\01\00C\f9\00\00\81$\01\00D\f9\00\00\a1$\01\00E\f9\00\00\c1$\01\00F\f9\00\00\e1$\01\00G\f9\00\00\01%\01\00H\f9\00\00!%\01\00I\f9\00\00A%\01\00J\f9\00\00a%\01\00K\f9\00\00\81%\01\00L\f9\00\00\a1%\01\00M\f9\00\00\c1%\01\00N\f9\00\00\e1%\01\00O\f9\00\00\01&\01\00P\f9\00\00!&\01\00Q\f9\00\00A&\01\00R\f9\00\00a&\01\00S\f9\00\00\81&\01\00T\f9\00\00\a1&\01\00U\f9\00\00\c1&\01\00V\f9\00\00\e1&\01\00W\f9\00\00\01\'\01\00X\f9\00\00!\'\01\00Y\f9\00\00A\'\01\00Z\f9\00\00a\'\01\00[\f9\00\00\81\'\01\00\\\f9\00\00\a1\'\01\00]\f9\00\00\c1\'\01\00^\f9\00\00\e1\'\01\00_\f9\00\00\01(\01\00`\f9\00\00!(\01\00a\f9\00\00A(\01\00b\f9\00\00a(\01\00c\f9\00\00\81(\01\00d\f9\00\00\a1(\01\00e\f9\00\00\c1(\01\00f\f9\00\00\e1(\01\00g\f9\00\00\01)\01\00h\f9\00\00!)\01\00i\f9\00\00A)\01\00j\f9\00\00a)\01\00k\f9\00\00\81)\01\00l\f9\00\00\a1)\01\00m\f9\00\00\c1)\01\00n\f9\00\00\e1)\01\00o\f9\00\00\01*\01\00p\f9\00\00!*\01\00q\f9\00\00A*\01\00r\f9\00\00a*\01\00s\f9\00\00\81*\01\00t\f9\00\00\a1*\01\00u\f9\00\00\c1*\01\00v\f9\00\00\e1*\01\00w\f9\00\00\01+\01\00x\f9\00\00!+\01\00y\f9\00\00A+\01\00z\f9\00\00a+\01\00{\f9\00\00\81+\01\00|\f9\00\00\a1+\01\00}\f9\00\00\c1+\01\00~\f9\00\00\e1+\01\00\7f\f9\00\00\01,\01\00\80\f9\00\00!,\01\00\81\f9\00\00A,\01\00\82\f9\00\00a,\01\00\83\f9\00\00\81,\01\00\84\f9\00\00\a1,\01\00\85\f9\00\00\c1,\01\00\86\f9\00\00\e1,\01\00\87\f9\00\00\01-\01\00\88\f9\00\00!-\01\00\89\f9\00\00A-\01\00\8a\f9\00\00a-\01\00\8b\f9\00\00\81-\01\00\8c\f9\00\00\a1-\01\00\8d\f9\00\00\c1-\01\00\8e\f9\00\00\e1-\01\00\8f\f9\00\00\01.\01\00\90\f9\00\00!.\01\00\91\f9\00\00A.\01\00\92\f9\00\00a.\01\00\93\f9\00\00\81.\01\00\94\f9\00\00\a1.\01\00\95\f9\00\00\c1.\01\00\96\f9\00\00\e1.\01\00\97\f9\00\00\01/\01\00\98\f9\00\00!/\01\00\99\f9\00\00A/\01\00\9a\f9\00\00a/\01\00\9b\f9\00\00\81/\01\00\9c\f9\00\00\a1/\01\00\9d\f9\00\00\c1/\01\00\9e\f9\00\00\e1/\01\00\9f\f9\00\00\010\01\00\a0\f9\00\00!0\01\00\a1\f9\00\00A0\01\00\a2\f9\00\00a0\01\00\a3\f9\00\00\810\01\00\a4\f9\00\00\a10\01\00\a5\f9\00\00\c10\01\00\a6\f9\00\00\e10\01\00\a7\f9\00\00\011\01\00\a8\f9\00\00!1\01\00\a9\f9\00\00A1\01\00\aa\f9\00\00a1\01\00\ab\f9\00\00\811\01\00\ac\f9\00\00\a11\01\00\ad\f9\00\00\c11\01\00\ae\f9\00\00\e11\01\00\af\f9\00\00\012\01\00\b0\f9\00\00!2\01\00\b1\f9\00\00A2\01\00\b2\f9\00\00a2\01\00\b3\f9\00\00\812\01\00\b4\f9\00\00\a12\01\00\b5\f9\00\00\c12\01\00\b6\f9\00\00\e12\01\00\b7\f9\00\00\013\01\00\b8\f9\00\00!3\01\00\b9\f9\00\00A3\01\00\ba\f9\00\00a3\01\00\bb\f9\00\00\813\01\00\bc\f9\00\00\a13\01\00\bd\f9\00\00\c13\01\00\be\f9\00\00\e13\01\00\bf\f9\00\00\014\01\00\c0\f9\00\00!4\01\00\c1\f9\00\00A4\01\00\c2\f9\00\00a4\01\00\c3\f9\00\00\814\01\00\c4\f9\00\00\a14\01\00\c5\f9\00\00\c14\01\00\c6\f9\00\00\e14\01\00\c7\f9\00\00\015\01\00\c8\f9\00\00!5\01\00\c9\f9\00\00A5\01\00\ca\f9\00\00a5\01\00\cb\f9\00\00\815\01\00\cc\f9\00\00\a15\01\00\cd\f9\00\00\c15\01\00\ce\f9\00\00\e15\01\00\cf\f9\00\00\016\01\00\d0\f9\00\00!6\01\00\d1\f9\00\00A6\01\00\d2\f9\00\00a6\01\00\d3\f9\00\00\816\01\00\d4\f9\00\00\a16\01\00\d5\f9\00\00\c16\01\00\d6\f9\00\00\e16\01\00\d7\f9\00\00\017\01\00\d8\f9\00\00!7\01\00\d9\f9\00\00A7\01\00\da\f9\00\00a7\01\00\db\f9\00\00\817\01\00\dc\f9\00\00\a17\01\00\dd\f9\00\00\c17\01\00\de\f9\00\00\e17\01\00\df\f9\00\00\018\01\00\e0\f9\00\00!8\01\00\e1\f9\00\00A8\01\00\e2\f9\00\00a8\01\00\e3\f9\00\00\818\01\00\e4\f9\00\00\a18\01\00\e5\f9\00\00\c18\01\00\e6\f9\00\00\e18\01\00\e7\f9\00\00\019\01\00\e8\f9\00\00!9\01\00\e9\f9\00\00A9\01\00\ea\f9\00\00a9\01\00\eb\f9\00\00\819\01\00\ec\f9\00\00\a19\01\00\ed\f9\00\00\c19\01\00\ee\f9\00\00\e19\01\00\ef\f9\00\00\01:\01\00\f0\f9\00\00!:\01\00\f1\f9\00\00A:\01\00\f2\f9\00\00a:\01\00\f3\f9\00\00\81:\01\00\f4\f9\00\00\a1:\01\00\f5\f9\00\00\c1:\01\00\f6\f9\00\00\e1:\01\00\f7\f9\00\00\01;\01\00\f8\f9\00\00!;\01\00\f9\f9\00\00A;\01\00\fa\f9\00\00a;\01\00\fb\f9\00\00\81;\01\00\fc\f9\00\00\a1;\01\00\fd\f9\00\00\c1;\01\00\fe\f9\00\00\e1;\01\00\ff\f9\00\00\01<\01\00\00\fa\00\00!<\01\00\01\fa\00\00A<\01\00\02\fa\00\00a<\01\00\03\fa\00\00\81<\01\00\04\fa\00\00\a1<\01\00\05\fa\00\00\c1<\01\00\06\fa\00\00\e1<\01\00\07\fa\00\00\01=\01\00\08\fa\00\00!=\01\00\t\fa\00\00A=\01\00\n\fa\00\00a=\01\00\0b\fa\00\00\81=\01\00\0c\fa\00\00\a1=\01\00\0d\fa\00\00\c1=\01\00\10\fa\00\00\e1=\01\00\12\fa\00\00\01>\01\00\15\fa\00\00!>\01\00\16\fa\00\00A>\01\00\17\fa\00\00a>\01\00\18\fa\00\00\81>\01\00\19\fa\00\00\a1>\01\00\1a\fa\00\00\c1>\01\00\1b\fa\00\00\e1>\01\00\1c\fa\00\00\01?\01\00\1d\fa\00\00!?\01\00\1e\fa\00\00A?\01\00 \fa\00\00a?\01\00\"\fa\00\00\81?\01\00%\fa\00\00\a1?\01\00&\fa\00\00\c1?\01\00*\fa\00\00\e1?\01\00+\fa\00\00\01@\01\00,\fa\00\00!@\01\00-\fa\00\00A@\01\00.\fa\00\00a@\01\00/\fa\00\00\81@\01\000\fa\00\00\a1@\01\001\fa\00\00\c1@\01\002\fa\00\00\e1@\01\003\fa\00\00\01A\01\004\fa\00\00!A\01\005\fa\00\00AA\01\006\fa\00\00aA\01\007\fa\00\00\81A\01\008\fa\00\00\a1A\01\009\fa\00\00\c1A\01\00:\fa\00\00\e1A\01\00;\fa\00\00\01B\01\00<\fa\00\00!B\01\00=\fa\00\00AB\01\00>\fa\00\00aB\01\00?\fa\00\00\81B\01\00@\fa\00\00\a1B\01\00A\fa\00\00\c1B\01\00B\fa\00\00\e1B\01\00C\fa\00\00\01C\01\00D\fa\00\00!C\01\00E\fa\00\00AC\01\00F\fa\00\00aC\01\00G\fa\00\00\81C\01\00H\fa\00\00\a1C\01\00I\fa\00\00\c1C\01\00J\fa\00\00\e1C\01\00K\fa\00\00\01D\01\00L\fa\00\00!D\01\00M\fa\00\00AD\01\00N\fa\00\00aD\01\00O\fa\00\00\81D\01\00P\fa\00\00\a1D\01\00Q\fa\00\00\c1D\01\00R\fa\00\00\e1D\01\00S\fa\00\00\01E\01\00T\fa\00\00!E\01\00U\fa\00\00AE\01\00V\fa\00\00aE\01\00W\fa\00\00\81E\01\00X\fa\00\00\a1E\01\00Y\fa\00\00\c1E\01\00Z\fa\00\00\e1E\01\00[\fa\00\00\01F\01\00\\\fa\00\00!F\01\00]\fa\00\00AF\01\00^\fa\00\00aF\01\00_\fa\00\00\81F\01\00`\fa\00\00\a1F\01\00a\fa\00\00\c1F\01\00b\fa\00\00\e1F\01\00c\fa\00\00\01G\01\00d\fa\00\00!G\01\00e\fa\00\00AG\01\00f\fa\00\00aG\01\00g\fa\00\00\81G\01\00h\fa\00\00\a1G\01\00i\fa\00\00\c1G\01\00j\fa\00\00\e1G\01\00k\fa\00\00\01H\01\00l\fa\00\00\"H\01\00m\fa\00\00aH\01\00p\fa\00\00\81H\01\00q\fa\00\00\a1H\01\00r\fa\00\00\c1H\01\00s\fa\00\00\e1H\01\00t\fa\00\00\01I\01\00u\fa\00\00!I\01\00v\fa\00\00AI\01\00w\fa\00\00aI\01\00x\fa\00\00\81I\01\00y\fa\00\00\a1I\01\00z\fa\00\00\c1I\01\00{\fa\00\00\e1I\01\00|\fa\00\00\01J\01\00}\fa\00\00!J\01\00~\fa\00\00AJ\01\00\7f\fa\00\00aJ\01\00\80\fa\00\00\81J\01\00\81\fa\00\00\a1J\01\00\82\fa\00\00\c1J\01\00\83\fa\00\00\e1J\01\00\84\fa\00\00\01K\01\00\85\fa\00\00!K\01\00\86\fa\00\00AK\01\00\87\fa\00\00aK\01\00\88\fa\00\00\81K\01\00\89\fa\00\00\a1K\01\00\8a\fa\00\00\c1K\01\00\8b\fa\00\00\e1K\01\00\8c\fa\00\00\01L\01\00\8d\fa\00\00!L\01\00\8e\fa\00\00AL\01\00\8f\fa\00\00aL\01\00\90\fa\00\00\81L\01\00\91\fa\00\00\a1L\01\00\92\fa\00\00\c1L\01\00\93\fa\00\00\e1L\01\00\94\fa\00\00\01M\01\00\95\fa\00\00!M\01\00\96\fa\00\00AM\01\00\97\fa\00\00aM\01\00\98\fa\00\00\81M\01\00\99\fa\00\00\a1M\01\00\9a\fa\00\00\c1M\01\00\9b\fa\00\00\e1M\01\00\9c\fa\00\00\01N\01\00\9d\fa\00\00!N\01\00\9e\fa\00\00AN\01\00\9f\fa\00\00aN\01\00\a0\fa\00\00\81N\01\00\a1\fa\00\00\a1N\01\00\a2\fa\00\00\c1N\01\00\a3\fa\00\00\e1N\01\00\a4\fa\00\00\01O\01\00\a5\fa\00\00!O\01\00\a6\fa\00\00AO\01\00\a7\fa\00\00aO\01\00\a8\fa\00\00\81O\01\00\a9\fa\00\00\a1O\01\00\aa\fa\00\00\c1O\01\00\ab\fa\00\00\e1O\01\00\ac\fa\00\00\01P\01\00\ad\fa\00\00!P\01\00\ae\fa\00\00AP\01\00\af\fa\00\00aP\01\00\b0\fa\00\00\81P\01\00\b1\fa\00\00\a1P\01\00\b2\fa\00\00\c1P\01\00\b3\fa\00\00\e1P\01\00\b4\fa\00\00\01Q\01\00\b5\fa\00\00!Q\01\00\b6\fa\00\00AQ\01\00\b7\fa\00\00aQ\01\00\b8\fa\00\00\81Q\01\00\b9\fa\00\00\a1Q\01\00\ba\fa\00\00\c1Q\01\00\bb\fa\00\00\e1Q\01\00\bc\fa\00\00\01R\01\00\bd\fa\00\00!R\01\00\be\fa\00\00AR\01\00\bf\fa\00\00aR\01\00\c0\fa\00\00\81R\01\00\c1\fa\00\00\a1R\01\00\c2\fa\00\00\c1R\01\00\c3\fa\00\00\e1R\01\00\c4\fa\00\00\01S\01\00\c5\fa\00\00!S\01\00\c6\fa\00\00AS\01\00\c7\fa\00\00aS\01\00\c8\fa\00\00\81S\01\00\c9\fa\00\00\a1S\01\00\ca\fa\00\00\c1S\01\00\cb\fa\00\00\e1S\01\00\cc\fa\00\00\01T\01\00\cd\fa\00\00!T\01\00\ce\fa\00\00AT\01\00\cf\fa\00\00bT\01\00\d0\fa\00\00\a2T\01\00\d1\fa\00\00\e2T\01\00\d2\fa\00\00!U\01\00\d3\fa\00\00AU\01\00\d4\fa\00\00aU\01\00\d5\fa\00\00\82U\01\00\d6\fa\00\00\c2U\01\00\d7\fa\00\00\02V\01\00\d8\fa\00\00AV\01\00\d9\fa\00\00aV\01\00\1d\fb\00\00\82V\01\00\1f\fb\00\00\c2V\01\00*\fb\00\00\02W\01\00+\fb\00\00BW\01\00,\fb\00\00\83W\01\00-\fb\00\00\e3W\01\00.\fb\00\00BX\01\00/\fb\00\00\82X\01\000\fb\00\00\c2X\01\001\fb\00\00\02Y\01\002\fb\00\00BY\01\003\fb\00\00\82Y\01\004\fb\00\00\c2Y\01\005\fb\00\00\02Z\01\006\fb\00\00BZ\01\008\fb\00\00\82Z\01\009\fb\00\00\c2Z\01\00:\fb\00\00\02[\01\00;\fb\00\00B[\01\00<\fb\00\00\82[\01\00>\fb\00\00\c2[\01\00@\fb\00\00\02\\\01\00A\fb\00\00B\\\01\00C\fb\00\00\82\\\01\00D\fb\00\00\c2\\\01\00F\fb\00\00\02]\01\00G\fb\00\00B]\01\00H\fb\00\00\82]\01\00I\fb\00\00\c2]\01\00J\fb\00\00\02^\01\00K\fb\00\00B^\01\00L\fb\00\00\82^\01\00M\fb\00\00\c2^\01\00N\fb\00\00\02_\01\00\c9\05\01\00C_\01\00\e4\05\01\00\a3_\01\00\9a\10\01\00\04`\01\00\9c\10\01\00\84`\01\00\ab\10\01\00\04a\01\00.\11\01\00\84a\01\00/\11\01\00\04b\01\00K\13\01\00\84b\01\00L\13\01\00\04c\01\00\83\13\01\00\84c\01\00\85\13\01\00\04d\01\00\8e\13\01\00\84d\01\00\91\13\01\00\04e\01\00\c5\13\01\00\84e\01\00\c7\13\01\00\04f\01\00\c8\13\01\00\84f\01\00\bb\14\01\00\04g\01\00\bc\14\01\00\84g\01\00\be\14\01\00\04h\01\00\ba\15\01\00\84h\01\00\bb\15\01\00\04i\01\008\19\01\00\84i\01\00!a\01\00\04j\01\00\"a\01\00\84j\01\00#a\01\00\04k\01\00$a\01\00\84k\01\00%a\01\00\04l\01\00&a\01\00\86l\01\00\'a\01\00Fm\01\00(a\01\00\06n\01\00hm\01\00\c4n\01\00im\01\00Do\01\00jm\01\00\c6o\01\00^\d1\01\00\84p\01\00_\d1\01\00\04q\01\00`\d1\01\00\86q\01\00a\d1\01\00Fr\01\00b\d1\01\00\06s\01\00c\d1\01\00\c6s\01\00d\d1\01\00\86t\01\00\bb\d1\01\00Du\01\00\bc\d1\01\00\c4u\01\00\bd\d1\01\00Fv\01\00\be\d1\01\00\06w\01\00\bf\d1\01\00\c6w\01\00\c0\d1\01\00\86x\01\00\00\f8\02\00Ay\01\00\01\f8\02\00ay\01\00\02\f8\02\00\81y\01\00\03\f8\02\00\a2y\01\00\04\f8\02\00\e1y\01\00\05\f8\02\00\01z\01\00\06\f8\02\00!z\01\00\07\f8\02\00Az\01\00\08\f8\02\00az\01\00\t\f8\02\00\81z\01\00\n\f8\02\00\a1z\01\00\0b\f8\02\00\c1z\01\00\0c\f8\02\00\e1z\01\00\0d\f8\02\00\02{\01\00\0e\f8\02\00A{\01\00\0f\f8\02\00a{\01\00\10\f8\02\00\81{\01\00\11\f8\02\00\a1{\01\00\12\f8\02\00\c2{\01\00\13\f8\02\00\01|\01\00\14\f8\02\00!|\01\00\15\f8\02\00A|\01\00\16\f8\02\00b|\01\00\17\f8\02\00\a1|\01\00\18\f8\02\00\c1|\01\00\19\f8\02\00\e1|\01\00\1a\f8\02\00\01}\01\00\1b\f8\02\00!}\01\00\1c\f8\02\00B}\01\00\1d\f8\02\00\81}\01\00\1e\f8\02\00\a1}\01\00\1f\f8\02\00\c1}\01\00 \f8\02\00\e1}\01\00!\f8\02\00\01~\01\00\"\f8\02\00!~\01\00#\f8\02\00A~\01\00$\f8\02\00a~\01\00%\f8\02\00\81~\01\00&\f8\02\00\a1~\01\00\'\f8\02\00\c1~\01\00(\f8\02\00\e1~\01\00)\f8\02\00\01\7f\01\00*\f8\02\00!\7f\01\00+\f8\02\00A\7f\01\00,\f8\02\00a\7f\01\00-\f8\02\00\81\7f\01\00.\f8\02\00\a1\7f\01\00/\f8\02\00\c1\7f\01\000\f8\02\00\e1\7f\01\001\f8\02\00\01\80\01\002\f8\02\00!\80\01\003\f8\02\00A\80\01\004\f8\02\00b\80\01\005\f8\02\00\a1\80\01\006\f8\02\00\c1\80\01\007\f8\02\00\e1\80\01\008\f8\02\00\02\81\01\009\f8\02\00A\81\01\00:\f8\02\00a\81\01\00;\f8\02\00\81\81\01\00<\f8\02\00\a1\81\01\00=\f8\02\00\c1\81\01\00>\f8\02\00\e1\81\01\00?\f8\02\00\01\82\01\00@\f8\02\00!\82\01\00A\f8\02\00A\82\01\00B\f8\02\00a\82\01\00C\f8\02\00\81\82\01\00D\f8\02\00\a1\82\01\00E\f8\02\00\c1\82\01\00F\f8\02\00\e1\82\01\00G\f8\02\00\01\83\01\00H\f8\02\00!\83\01\00I\f8\02\00A\83\01\00J\f8\02\00a\83\01\00K\f8\02\00\81\83\01\00L\f8\02\00\a1\83\01\00M\f8\02\00\c1\83\01\00N\f8\02\00\e1\83\01\00O\f8\02\00\01\84\01\00P\f8\02\00!\84\01\00Q\f8\02\00A\84\01\00R\f8\02\00a\84\01\00S\f8\02\00\81\84\01\00T\f8\02\00\a1\84\01\00U\f8\02\00\c1\84\01\00V\f8\02\00\e1\84\01\00W\f8\02\00\01\85\01\00X\f8\02\00!\85\01\00Y\f8\02\00B\85\01\00Z\f8\02\00\81\85\01\00[\f8\02\00\a1\85\01\00\\\f8\02\00\c1\85\01\00]\f8\02\00\e1\85\01\00^\f8\02\00\01\86\01\00_\f8\02\00!\86\01\00`\f8\02\00B\86\01\00a\f8\02\00\82\86\01\00b\f8\02\00\c1\86\01\00c\f8\02\00\e1\86\01\00d\f8\02\00\01\87\01\00e\f8\02\00!\87\01\00f\f8\02\00A\87\01\00g\f8\02\00a\87\01\00h\f8\02\00\81\87\01\00i\f8\02\00\a1\87\01\00j\f8\02\00\c1\87\01\00k\f8\02\00\e1\87\01\00l\f8\02\00\02\88\01\00m\f8\02\00A\88\01\00n\f8\02\00a\88\01\00o\f8\02\00\81\88\01\00p\f8\02\00\a1\88\01\00q\f8\02\00\c2\88\01\00r\f8\02\00\01\89\01\00s\f8\02\00!\89\01\00t\f8\02\00A\89\01\00u\f8\02\00a\89\01\00v\f8\02\00\81\89\01\00w\f8\02\00\a1\89\01\00x\f8\02\00\c1\89\01\00y\f8\02\00\e1\89\01\00z\f8\02\00\01\8a\01\00{\f8\02\00\"\8a\01\00|\f8\02\00a\8a\01\00}\f8\02\00\82\8a\01\00~\f8\02\00\c1\8a\01\00\7f\f8\02\00\e1\8a\01\00\80\f8\02\00\01\8b\01\00\81\f8\02\00!\8b\01\00\82\f8\02\00A\8b\01\00\83\f8\02\00a\8b\01\00\84\f8\02\00\81\8b\01\00\85\f8\02\00\a1\8b\01\00\86\f8\02\00\c1\8b\01\00\87\f8\02\00\e1\8b\01\00\88\f8\02\00\01\8c\01\00\89\f8\02\00\"\8c\01\00\8a\f8\02\00a\8c\01\00\8b\f8\02\00\81\8c\01\00\8c\f8\02\00\a1\8c\01\00\8d\f8\02\00\c1\8c\01\00\8e\f8\02\00\e1\8c\01\00\8f\f8\02\00\02\8d\01\00\90\f8\02\00A\8d\01\00\91\f8\02\00b\8d\01\00\92\f8\02\00\a2\8d\01\00\93\f8\02\00\e1\8d\01\00\94\f8\02\00\01\8e\01\00\95\f8\02\00!\8e\01\00\96\f8\02\00A\8e\01\00\97\f8\02\00b\8e\01\00\98\f8\02\00\a2\8e\01\00\99\f8\02\00\e1\8e\01\00\9a\f8\02\00\01\8f\01\00\9b\f8\02\00!\8f\01\00\9c\f8\02\00A\8f\01\00\9d\f8\02\00a\8f\01\00\9e\f8\02\00\81\8f\01\00\9f\f8\02\00\a1\8f\01\00\a0\f8\02\00\c1\8f\01\00\a1\f8\02\00\e1\8f\01\00\a2\f8\02\00\01\90\01\00\a3\f8\02\00!\90\01\00\a4\f8\02\00B\90\01\00\a5\f8\02\00\81\90\01\00\a6\f8\02\00\a1\90\01\00\a7\f8\02\00\c1\90\01\00\a8\f8\02\00\e1\90\01\00\a9\f8\02\00\01\91\01\00\aa\f8\02\00!\91\01\00\ab\f8\02\00A\91\01\00\ac\f8\02\00a\91\01\00\ad\f8\02\00\81\91\01\00\ae\f8\02\00\a1\91\01\00\af\f8\02\00\c1\91\01\00\b0\f8\02\00\e1\91\01\00\b1\f8\02\00\01\92\01\00\b2\f8\02\00!\92\01\00\b3\f8\02\00A\92\01\00\b4\f8\02\00a\92\01\00\b5\f8\02\00\81\92\01\00\b6\f8\02\00\a1\92\01\00\b7\f8\02\00\c1\92\01\00\b8\f8\02\00\e2\92\01\00\b9\f8\02\00!\93\01\00\ba\f8\02\00A\93\01\00\bb\f8\02\00a\93\01\00\bc\f8\02\00\81\93\01\00\bd\f8\02\00\a1\93\01\00\be\f8\02\00\c2\93\01\00\bf\f8\02\00\01\94\01\00\c0\f8\02\00!\94\01\00\c1\f8\02\00A\94\01\00\c2\f8\02\00a\94\01\00\c3\f8\02\00\81\94\01\00\c4\f8\02\00\a1\94\01\00\c5\f8\02\00\c1\94\01\00\c6\f8\02\00\e1\94\01\00\c7\f8\02\00\01\95\01\00\c8\f8\02\00!\95\01\00\c9\f8\02\00A\95\01\00\ca\f8\02\00b\95\01\00\cb\f8\02\00\a1\95\01\00\cc\f8\02\00\c1\95\01\00\cd\f8\02\00\e1\95\01\00\ce\f8\02\00\01\96\01\00\cf\f8\02\00!\96\01\00\d0\f8\02\00A\96\01\00\d1\f8\02\00a\96\01\00\d2\f8\02\00\81\96\01\00\d3\f8\02\00\a1\96\01\00\d4\f8\02\00\c1\96\01\00\d5\f8\02\00\e1\96\01\00\d6\f8\02\00\01\97\01\00\d7\f8\02\00!\97\01\00\d8\f8\02\00A\97\01\00\d9\f8\02\00a\97\01\00\da\f8\02\00\81\97\01\00\db\f8\02\00\a1\97\01\00\dc\f8\02\00\c1\97\01\00\dd\f8\02\00\e2\97\01\00\de\f8\02\00!\98\01\00\df\f8\02\00A\98\01\00\e0\f8\02\00a\98\01\00\e1\f8\02\00\81\98\01\00\e2\f8\02\00\a1\98\01\00\e3\f8\02\00\c2\98\01\00\e4\f8\02\00\01\99\01\00\e5\f8\02\00!\99\01\00\e6\f8\02\00A\99\01\00\e7\f8\02\00a\99\01\00\e8\f8\02\00\81\99\01\00\e9\f8\02\00\a1\99\01\00\ea\f8\02\00\c1\99\01\00\eb\f8\02\00\e1\99\01\00\ec\f8\02\00\02\9a\01\00\ed\f8\02\00A\9a\01\00\ee\f8\02\00a\9a\01\00\ef\f8\02\00\81\9a\01\00\f0\f8\02\00\a2\9a\01\00\f1\f8\02\00\e1\9a\01\00\f2\f8\02\00\01\9b\01\00\f3\f8\02\00!\9b\01\00\f4\f8\02\00A\9b\01\00\f5\f8\02\00a\9b\01\00\f6\f8\02\00\81\9b\01\00\f7\f8\02\00\a2\9b\01\00\f8\f8\02\00\e2\9b\01\00\f9\f8\02\00\"\9c\01\00\fa\f8\02\00a\9c\01\00\fb\f8\02\00\82\9c\01\00\fc\f8\02\00\c1\9c\01\00\fd\f8\02\00\e1\9c\01\00\fe\f8\02\00\01\9d\01\00\ff\f8\02\00!\9d\01\00\00\f9\02\00A\9d\01\00\01\f9\02\00a\9d\01\00\02\f9\02\00\81\9d\01\00\03\f9\02\00\a1\9d\01\00\04\f9\02\00\c1\9d\01\00\05\f9\02\00\e1\9d\01\00\06\f9\02\00\02\9e\01\00\07\f9\02\00A\9e\01\00\08\f9\02\00a\9e\01\00\t\f9\02\00\81\9e\01\00\n\f9\02\00\a1\9e\01\00\0b\f9\02\00\c1\9e\01\00\0c\f9\02\00\e1\9e\01\00\0d\f9\02\00\02\9f\01\00\0e\f9\02\00A\9f\01\00\0f\f9\02\00a\9f\01\00\10\f9\02\00\82\9f\01\00\11\f9\02\00\c2\9f\01\00\12\f9\02\00\01\a0\01\00\13\f9\02\00!\a0\01\00\14\f9\02\00A\a0\01\00\15\f9\02\00a\a0\01\00\16\f9\02\00\81\a0\01\00\17\f9\02\00\a1\a0\01\00\18\f9\02\00\c1\a0\01\00\19\f9\02\00\e1\a0\01\00\1a\f9\02\00\01\a1\01\00\1b\f9\02\00\"\a1\01\00\1c\f9\02\00a\a1\01\00\1d\f9\02\00\82\a1\01\00\1e\f9\02\00\c1\a1\01\00\1f\f9\02\00\e2\a1\01\00 \f9\02\00!\a2\01\00!\f9\02\00A\a2\01\00\"\f9\02\00a\a2\01\00#\f9\02\00\82\a2\01\00$\f9\02\00\c1\a2\01\00%\f9\02\00\e1\a2\01\00&\f9\02\00\02\a3\01\00\'\f9\02\00B\a3\01\00(\f9\02\00\81\a3\01\00)\f9\02\00\a1\a3\01\00*\f9\02\00\c1\a3\01\00+\f9\02\00\e1\a3\01\00,\f9\02\00\01\a4\01\00-\f9\02\00!\a4\01\00.\f9\02\00A\a4\01\00/\f9\02\00a\a4\01\000\f9\02\00\81\a4\01\001\f9\02\00\a1\a4\01\002\f9\02\00\c1\a4\01\003\f9\02\00\e1\a4\01\004\f9\02\00\01\a5\01\005\f9\02\00\"\a5\01\006\f9\02\00a\a5\01\007\f9\02\00\82\a5\01\008\f9\02\00\c1\a5\01\009\f9\02\00\e2\a5\01\00:\f9\02\00!\a6\01\00;\f9\02\00B\a6\01\00<\f9\02\00\82\a6\01\00=\f9\02\00\c2\a6\01\00>\f9\02\00\01\a7\01\00?\f9\02\00!\a7\01\00@\f9\02\00A\a7\01\00A\f9\02\00b\a7\01\00B\f9\02\00\a2\a7\01\00C\f9\02\00\e2\a7\01\00D\f9\02\00\"\a8\01\00E\f9\02\00a\a8\01\00F\f9\02\00\81\a8\01\00G\f9\02\00\a1\a8\01\00H\f9\02\00\c1\a8\01\00I\f9\02\00\e1\a8\01\00J\f9\02\00\01\a9\01\00K\f9\02\00!\a9\01\00L\f9\02\00A\a9\01\00M\f9\02\00b\a9\01\00N\f9\02\00\a1\a9\01\00O\f9\02\00\c1\a9\01\00P\f9\02\00\e1\a9\01\00Q\f9\02\00\01\aa\01\00R\f9\02\00\"\aa\01\00S\f9\02\00a\aa\01\00T\f9\02\00\82\aa\01\00U\f9\02\00\c2\aa\01\00V\f9\02\00\01\ab\01\00W\f9\02\00!\ab\01\00X\f9\02\00A\ab\01\00Y\f9\02\00a\ab\01\00Z\f9\02\00\81\ab\01\00[\f9\02\00\a1\ab\01\00\\\f9\02\00\c2\ab\01\00]\f9\02\00\02\ac\01\00^\f9\02\00B\ac\01\00_\f9\02\00\81\ac\01\00`\f9\02\00\a1\ac\01\00a\f9\02\00\c2\ac\01\00b\f9\02\00\01\ad\01\00c\f9\02\00!\ad\01\00d\f9\02\00A\ad\01\00e\f9\02\00b\ad\01\00f\f9\02\00\a1\ad\01\00g\f9\02\00\c1\ad\01\00h\f9\02\00\e1\ad\01\00i\f9\02\00\01\ae\01\00j\f9\02\00!\ae\01\00k\f9\02\00B\ae\01\00l\f9\02\00\81\ae\01\00m\f9\02\00\a1\ae\01\00n\f9\02\00\c1\ae\01\00o\f9\02\00\e1\ae\01\00p\f9\02\00\01\af\01\00q\f9\02\00!\af\01\00r\f9\02\00B\af\01\00s\f9\02\00\82\af\01\00t\f9\02\00\c1\af\01\00u\f9\02\00\e2\af\01\00v\f9\02\00!\b0\01\00w\f9\02\00B\b0\01\00x\f9\02\00\81\b0\01\00y\f9\02\00\a1\b0\01\00z\f9\02\00\c1\b0\01\00{\f9\02\00\e2\b0\01\00|\f9\02\00\"\b1\01\00}\f9\02\00a\b1\01\00~\f9\02\00\82\b1\01\00\7f\f9\02\00\c1\b1\01\00\80\f9\02\00\e2\b1\01\00\81\f9\02\00!\b2\01\00\82\f9\02\00A\b2\01\00\83\f9\02\00a\b2\01\00\84\f9\02\00\81\b2\01\00\85\f9\02\00\a1\b2\01\00\86\f9\02\00\c1\b2\01\00\87\f9\02\00\e2\b2\01\00\88\f9\02\00\"\b3\01\00\89\f9\02\00b\b3\01\00\8a\f9\02\00\a2\b3\01\00\8b\f9\02\00\e1\b3\01\00\8c\f9\02\00\01\b4\01\00\8d\f9\02\00!\b4\01\00\8e\f9\02\00A\b4\01\00\8f\f9\02\00a\b4\01\00\90\f9\02\00\81\b4\01\00\91\f9\02\00\a1\b4\01\00\92\f9\02\00\c1\b4\01\00\93\f9\02\00\e1\b4\01\00\94\f9\02\00\01\b5\01\00\95\f9\02\00!\b5\01\00\96\f9\02\00A\b5\01\00\97\f9\02\00b\b5\01\00\98\f9\02\00\a1\b5\01\00\99\f9\02\00\c1\b5\01\00\9a\f9\02\00\e1\b5\01\00\9b\f9\02\00\01\b6\01\00\9c\f9\02\00!\b6\01\00\9d\f9\02\00A\b6\01\00\9e\f9\02\00a\b6\01\00\9f\f9\02\00\81\b6\01\00\a0\f9\02\00\a1\b6\01\00\a1\f9\02\00\c1\b6\01\00\a2\f9\02\00\e1\b6\01\00\a3\f9\02\00\01\b7\01\00\a4\f9\02\00\"\b7\01\00\a5\f9\02\00b\b7\01\00\a6\f9\02\00\a2\b7\01\00\a7\f9\02\00\e1\b7\01\00\a8\f9\02\00\01\b8\01\00\a9\f9\02\00!\b8\01\00\aa\f9\02\00A\b8\01\00\ab\f9\02\00b\b8\01\00\ac\f9\02\00\a1\b8\01\00\ad\f9\02\00\c2\b8\01\00\ae\f9\02\00\01\b9\01\00\af\f9\02\00!\b9\01\00\b0\f9\02\00B\b9\01\00\b1\f9\02\00\82\b9\01\00\b2\f9\02\00\c1\b9\01\00\b3\f9\02\00\e1\b9\01\00\b4\f9\02\00\01\ba\01\00\b5\f9\02\00!\ba\01\00\b6\f9\02\00A\ba\01\00\b7\f9\02\00a\ba\01\00\b8\f9\02\00\81\ba\01\00\b9\f9\02\00\a1\ba\01\00\ba\f9\02\00\c1\ba\01\00\bb\f9\02\00\e1\ba\01\00\bc\f9\02\00\01\bb\01\00\bd\f9\02\00!\bb\01\00\be\f9\02\00A\bb\01\00\bf\f9\02\00a\bb\01\00\c0\f9\02\00\81\bb\01\00\c1\f9\02\00\a1\bb\01\00\c2\f9\02\00\c1\bb\01\00\c3\f9\02\00\e1\bb\01\00\c4\f9\02\00\01\bc\01\00\c5\f9\02\00\"\bc\01\00\c6\f9\02\00a\bc\01\00\c7\f9\02\00\81\bc\01\00\c8\f9\02\00\a1\bc\01\00\c9\f9\02\00\c1\bc\01\00\ca\f9\02\00\e1\bc\01\00\cb\f9\02\00\02\bd\01\00\cc\f9\02\00B\bd\01\00\cd\f9\02\00\81\bd\01\00\ce\f9\02\00\a1\bd\01\00\cf\f9\02\00\c1\bd\01\00\d0\f9\02\00\e1\bd\01\00\d1\f9\02\00\01\be\01\00\d2\f9\02\00!\be\01\00\d3\f9\02\00B\be\01\00\d4\f9\02\00\81\be\01\00\d5\f9\02\00\a1\be\01\00\d6\f9\02\00\c1\be\01\00\d7\f9\02\00\e1\be\01\00\d8\f9\02\00\02\bf\01\00\d9\f9\02\00B\bf\01\00\da\f9\02\00\81\bf\01\00\db\f9\02\00\a1\bf\01\00\dc\f9\02\00\c1\bf\01\00\dd\f9\02\00\e2\bf\01\00\de\f9\02\00!\c0\01\00\df\f9\02\00A\c0\01\00\e0\f9\02\00b\c0\01\00\e1\f9\02\00\a2\c0\01\00\e2\f9\02\00\e1\c0\01\00\e3\f9\02\00\01\c1\01\00\e4\f9\02\00!\c1\01\00\e5\f9\02\00B\c1\01\00\e6\f9\02\00\81\c1\01\00\e7\f9\02\00\a1\c1\01\00\e8\f9\02\00\c1\c1\01\00\e9\f9\02\00\e1\c1\01\00\ea\f9\02\00\01\c2\01\00\eb\f9\02\00!\c2\01\00\ec\f9\02\00A\c2\01\00\ed\f9\02\00b\c2\01\00\ee\f9\02\00\a1\c2\01\00\ef\f9\02\00\c1\c2\01\00\f0\f9\02\00\e1\c2\01\00\f1\f9\02\00\02\c3\01\00\f2\f9\02\00A\c3\01\00\f3\f9\02\00a\c3\01\00\f4\f9\02\00\81\c3\01\00\f5\f9\02\00\a1\c3\01\00\f6\f9\02\00\c2\c3\01\00\f7\f9\02\00\02\c4\01\00\f8\f9\02\00A\c4\01\00\f9\f9\02\00a\c4\01\00\fa\f9\02\00\81\c4\01\00\fb\f9\02\00\a2\c4\01\00\fc\f9\02\00\e1\c4\01\00\fd\f9\02\00\02\c5\01\00\fe\f9\02\00A\c5\01\00\ff\f9\02\00a\c5\01\00\00\fa\02\00\81\c5\01\00\01\fa\02\00\a2\c5\01\00\02\fa\02\00\e1\c5\01\00\03\fa\02\00\01\c6\01\00\04\fa\02\00!\c6\01\00\05\fa\02\00A\c6\01\00\06\fa\02\00a\c6\01\00\07\fa\02\00\81\c6\01\00\08\fa\02\00\a1\c6\01\00\t\fa\02\00\c2\c6\01\00\n\fa\02\00\01\c7\01\00\0b\fa\02\00!\c7\01\00\0c\fa\02\00A\c7\01\00\0d\fa\02\00a\c7\01\00\0e\fa\02\00\81\c7\01\00\0f\fa\02\00\a1\c7\01\00\10\fa\02\00\c2\c7\01\00\11\fa\02\00\01\c8\01\00\12\fa\02\00\"\c8\01\00\13\fa\02\00b\c8\01\00\14\fa\02\00\a2\c8\01\00\15\fa\02\00\e1\c8\01\00\16\fa\02\00\01\c9\01\00\17\fa\02\00!\c9\01\00\18\fa\02\00A\c9\01\00\19\fa\02\00a\c9\01\00\1a\fa\02\00\81\c9\01\00\1b\fa\02\00\a1\c9\01\00\1c\fa\02\00\c1\c9\01\00\1d\fa\02\00\e2\c9\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 67936) "`\89\00\00B\10\00\00")
+ (data (i32.const 67944) "\a2\1c\00\00\00\00\00\00A\00\00\03A\00\01\03A\00\02\03A\00\03\03A\00\08\03A\00\n\03C\00\'\03E\00\00\03E\00\01\03E\00\02\03E\00\08\03I\00\00\03I\00\01\03I\00\02\03I\00\08\03N\00\03\03O\00\00\03O\00\01\03O\00\02\03O\00\03\03O\00\08\03U\00\00\03U\00\01\03U\00\02\03U\00\08\03Y\00\01\03a\00\00\03a\00\01\03a\00\02\03a\00\03\03a\00\08\03a\00\n\03c\00\'\03e\00\00\03e\00\01\03e\00\02\03e\00\08\03i\00\00\03i\00\01\03i\00\02\03i\00\08\03n\00\03\03o\00\00\03o\00\01\03o\00\02\03o\00\03\03o\00\08\03u\00\00\03u\00\01\03u\00\02\03u\00\08\03y\00\01\03y\00\08\03A\00\04\03a\00\04\03A\00\06\03a\00\06\03A\00(\03a\00(\03C\00\01\03c\00\01\03C\00\02\03c\00\02\03C\00\07\03c\00\07\03C\00\0c\03c\00\0c\03D\00\0c\03d\00\0c\03E\00\04\03e\00\04\03E\00\06\03e\00\06\03E\00\07\03e\00\07\03E\00(\03e\00(\03E\00\0c\03e\00\0c\03G\00\02\03g\00\02\03G\00\06\03g\00\06\03G\00\07\03g\00\07\03G\00\'\03g\00\'\03H\00\02\03h\00\02\03I\00\03\03i\00\03\03I\00\04\03i\00\04\03I\00\06\03i\00\06\03I\00(\03i\00(\03I\00\07\03J\00\02\03j\00\02\03K\00\'\03k\00\'\03L\00\01\03l\00\01\03L\00\'\03l\00\'\03L\00\0c\03l\00\0c\03N\00\01\03n\00\01\03N\00\'\03n\00\'\03N\00\0c\03n\00\0c\03O\00\04\03o\00\04\03O\00\06\03o\00\06\03O\00\0b\03o\00\0b\03R\00\01\03r\00\01\03R\00\'\03r\00\'\03R\00\0c\03r\00\0c\03S\00\01\03s\00\01\03S\00\02\03s\00\02\03S\00\'\03s\00\'\03S\00\0c\03s\00\0c\03T\00\'\03t\00\'\03T\00\0c\03t\00\0c\03U\00\03\03u\00\03\03U\00\04\03u\00\04\03U\00\06\03u\00\06\03U\00\n\03u\00\n\03U\00\0b\03u\00\0b\03U\00(\03u\00(\03W\00\02\03w\00\02\03Y\00\02\03y\00\02\03Y\00\08\03Z\00\01\03z\00\01\03Z\00\07\03z\00\07\03Z\00\0c\03z\00\0c\03O\00\1b\03o\00\1b\03U\00\1b\03u\00\1b\03A\00\0c\03a\00\0c\03I\00\0c\03i\00\0c\03O\00\0c\03o\00\0c\03U\00\0c\03u\00\0c\03U\00\08\03\04\03u\00\08\03\04\03U\00\08\03\01\03u\00\08\03\01\03U\00\08\03\0c\03u\00\08\03\0c\03U\00\08\03\00\03u\00\08\03\00\03A\00\08\03\04\03a\00\08\03\04\03A\00\07\03\04\03a\00\07\03\04\03\c6\00\04\03\e6\00\04\03G\00\0c\03g\00\0c\03K\00\0c\03k\00\0c\03O\00(\03o\00(\03O\00(\03\04\03o\00(\03\04\03\b7\01\0c\03\92\02\0c\03j\00\0c\03G\00\01\03g\00\01\03N\00\00\03n\00\00\03A\00\n\03\01\03a\00\n\03\01\03\c6\00\01\03\e6\00\01\03\d8\00\01\03\f8\00\01\03A\00\0f\03a\00\0f\03A\00\11\03a\00\11\03E\00\0f\03e\00\0f\03E\00\11\03e\00\11\03I\00\0f\03i\00\0f\03I\00\11\03i\00\11\03O\00\0f\03o\00\0f\03O\00\11\03o\00\11\03R\00\0f\03r\00\0f\03R\00\11\03r\00\11\03U\00\0f\03u\00\0f\03U\00\11\03u\00\11\03S\00&\03s\00&\03T\00&\03t\00&\03H\00\0c\03h\00\0c\03A\00\07\03a\00\07\03E\00\'\03e\00\'\03O\00\08\03\04\03o\00\08\03\04\03O\00\03\03\04\03o\00\03\03\04\03O\00\07\03o\00\07\03O\00\07\03\04\03o\00\07\03\04\03Y\00\04\03y\00\04\03\00\03\01\03\13\03\08\03\01\03\b9\02;\00\a8\00\01\03\91\03\01\03\b7\00\95\03\01\03\97\03\01\03\99\03\01\03\9f\03\01\03\a5\03\01\03\a9\03\01\03\b9\03\08\03\01\03\99\03\08\03\a5\03\08\03\b1\03\01\03\b5\03\01\03\b7\03\01\03\b9\03\01\03\c5\03\08\03\01\03\b9\03\08\03\c5\03\08\03\bf\03\01\03\c5\03\01\03\c9\03\01\03\d2\03\01\03\d2\03\08\03\15\04\00\03\15\04\08\03\13\04\01\03\06\04\08\03\1a\04\01\03\18\04\00\03#\04\06\03\18\04\06\038\04\06\035\04\00\035\04\08\033\04\01\03V\04\08\03:\04\01\038\04\00\03C\04\06\03t\04\0f\03u\04\0f\03\16\04\06\036\04\06\03\10\04\06\030\04\06\03\10\04\08\030\04\08\03\15\04\06\035\04\06\03\d8\04\08\03\d9\04\08\03\16\04\08\036\04\08\03\17\04\08\037\04\08\03\18\04\04\038\04\04\03\18\04\08\038\04\08\03\1e\04\08\03>\04\08\03\e8\04\08\03\e9\04\08\03-\04\08\03M\04\08\03#\04\04\03C\04\04\03#\04\08\03C\04\08\03#\04\0b\03C\04\0b\03\'\04\08\03G\04\08\03+\04\08\03K\04\08\03\'\06S\06\'\06T\06H\06T\06\'\06U\06J\06T\06\d5\06T\06\c1\06T\06\d2\06T\06(\t<\t0\t<\t3\t<\t\15\t<\t\16\t<\t\17\t<\t\1c\t<\t!\t<\t\"\t<\t+\t<\t/\t<\t\c7\t\be\t\c7\t\d7\t\a1\t\bc\t\a2\t\bc\t\af\t\bc\t2\n<\n8\n<\n\16\n<\n\17\n<\n\1c\n<\n+\n<\nG\0bV\0bG\0b>\0bG\0bW\0b!\0b<\0b\"\0b<\0b\92\0b\d7\0b\c6\0b\be\0b\c7\0b\be\0b\c6\0b\d7\0bF\0cV\0c\bf\0c\d5\0c\c6\0c\d5\0c\c6\0c\d6\0c\c6\0c\c2\0c\c6\0c\c2\0c\d5\0cF\0d>\0dG\0d>\0dF\0dW\0d\d9\0d\ca\0d\d9\0d\cf\0d\d9\0d\cf\0d\ca\0d\d9\0d\df\0dB\0f\b7\0fL\0f\b7\0fQ\0f\b7\0fV\0f\b7\0f[\0f\b7\0f@\0f\b5\0fq\0fr\0fq\0ft\0f\b2\0f\80\0f\b3\0f\80\0fq\0f\80\0f\92\0f\b7\0f\9c\0f\b7\0f\a1\0f\b7\0f\a6\0f\b7\0f\ab\0f\b7\0f\90\0f\b5\0f%\10.\10\05\1b5\1b\07\1b5\1b\t\1b5\1b\0b\1b5\1b\0d\1b5\1b\11\1b5\1b:\1b5\1b<\1b5\1b>\1b5\1b?\1b5\1bB\1b5\1bA\00%\03a\00%\03B\00\07\03b\00\07\03B\00#\03b\00#\03B\001\03b\001\03C\00\'\03\01\03c\00\'\03\01\03D\00\07\03d\00\07\03D\00#\03d\00#\03D\001\03d\001\03D\00\'\03d\00\'\03D\00-\03d\00-\03E\00\04\03\00\03e\00\04\03\00\03E\00\04\03\01\03e\00\04\03\01\03E\00-\03e\00-\03E\000\03e\000\03E\00\'\03\06\03e\00\'\03\06\03F\00\07\03f\00\07\03G\00\04\03g\00\04\03H\00\07\03h\00\07\03H\00#\03h\00#\03H\00\08\03h\00\08\03H\00\'\03h\00\'\03H\00.\03h\00.\03I\000\03i\000\03I\00\08\03\01\03i\00\08\03\01\03K\00\01\03k\00\01\03K\00#\03k\00#\03K\001\03k\001\03L\00#\03l\00#\03L\00#\03\04\03l\00#\03\04\03L\001\03l\001\03L\00-\03l\00-\03M\00\01\03m\00\01\03M\00\07\03m\00\07\03M\00#\03m\00#\03N\00\07\03n\00\07\03N\00#\03n\00#\03N\001\03n\001\03N\00-\03n\00-\03O\00\03\03\01\03o\00\03\03\01\03O\00\03\03\08\03o\00\03\03\08\03O\00\04\03\00\03o\00\04\03\00\03O\00\04\03\01\03o\00\04\03\01\03P\00\01\03p\00\01\03P\00\07\03p\00\07\03R\00\07\03r\00\07\03R\00#\03r\00#\03R\00#\03\04\03r\00#\03\04\03R\001\03r\001\03S\00\07\03s\00\07\03S\00#\03s\00#\03S\00\01\03\07\03s\00\01\03\07\03S\00\0c\03\07\03s\00\0c\03\07\03S\00#\03\07\03s\00#\03\07\03T\00\07\03t\00\07\03T\00#\03t\00#\03T\001\03t\001\03T\00-\03t\00-\03U\00$\03u\00$\03U\000\03u\000\03U\00-\03u\00-\03U\00\03\03\01\03u\00\03\03\01\03U\00\04\03\08\03u\00\04\03\08\03V\00\03\03v\00\03\03V\00#\03v\00#\03W\00\00\03w\00\00\03W\00\01\03w\00\01\03W\00\08\03w\00\08\03W\00\07\03w\00\07\03W\00#\03w\00#\03X\00\07\03x\00\07\03X\00\08\03x\00\08\03Y\00\07\03y\00\07\03Z\00\02\03z\00\02\03Z\00#\03z\00#\03Z\001\03z\001\03h\001\03t\00\08\03w\00\n\03y\00\n\03\7f\01\07\03A\00#\03a\00#\03A\00\t\03a\00\t\03A\00\02\03\01\03a\00\02\03\01\03A\00\02\03\00\03a\00\02\03\00\03A\00\02\03\t\03a\00\02\03\t\03A\00\02\03\03\03a\00\02\03\03\03A\00#\03\02\03a\00#\03\02\03A\00\06\03\01\03a\00\06\03\01\03A\00\06\03\00\03a\00\06\03\00\03A\00\06\03\t\03a\00\06\03\t\03A\00\06\03\03\03a\00\06\03\03\03A\00#\03\06\03a\00#\03\06\03E\00#\03e\00#\03E\00\t\03e\00\t\03E\00\03\03e\00\03\03E\00\02\03\01\03e\00\02\03\01\03E\00\02\03\00\03e\00\02\03\00\03E\00\02\03\t\03e\00\02\03\t\03E\00\02\03\03\03e\00\02\03\03\03E\00#\03\02\03e\00#\03\02\03I\00\t\03i\00\t\03I\00#\03i\00#\03O\00#\03o\00#\03O\00\t\03o\00\t\03O\00\02\03\01\03o\00\02\03\01\03O\00\02\03\00\03o\00\02\03\00\03O\00\02\03\t\03o\00\02\03\t\03O\00\02\03\03\03o\00\02\03\03\03O\00#\03\02\03o\00#\03\02\03O\00\1b\03\01\03o\00\1b\03\01\03O\00\1b\03\00\03o\00\1b\03\00\03O\00\1b\03\t\03o\00\1b\03\t\03O\00\1b\03\03\03o\00\1b\03\03\03O\00\1b\03#\03o\00\1b\03#\03U\00#\03u\00#\03U\00\t\03u\00\t\03U\00\1b\03\01\03u\00\1b\03\01\03U\00\1b\03\00\03u\00\1b\03\00\03U\00\1b\03\t\03u\00\1b\03\t\03U\00\1b\03\03\03u\00\1b\03\03\03U\00\1b\03#\03u\00\1b\03#\03Y\00\00\03y\00\00\03Y\00#\03y\00#\03Y\00\t\03y\00\t\03Y\00\03\03y\00\03\03\b1\03\13\03\b1\03\14\03\b1\03\13\03\00\03\b1\03\14\03\00\03\b1\03\13\03\01\03\b1\03\14\03\01\03\b1\03\13\03B\03\b1\03\14\03B\03\91\03\13\03\91\03\14\03\91\03\13\03\00\03\91\03\14\03\00\03\91\03\13\03\01\03\91\03\14\03\01\03\91\03\13\03B\03\91\03\14\03B\03\b5\03\13\03\b5\03\14\03\b5\03\13\03\00\03\b5\03\14\03\00\03\b5\03\13\03\01\03\b5\03\14\03\01\03\95\03\13\03\95\03\14\03\95\03\13\03\00\03\95\03\14\03\00\03\95\03\13\03\01\03\95\03\14\03\01\03\b7\03\13\03\b7\03\14\03\b7\03\13\03\00\03\b7\03\14\03\00\03\b7\03\13\03\01\03\b7\03\14\03\01\03\b7\03\13\03B\03\b7\03\14\03B\03\97\03\13\03\97\03\14\03\97\03\13\03\00\03\97\03\14\03\00\03\97\03\13\03\01\03\97\03\14\03\01\03\97\03\13\03B\03\97\03\14\03B\03\b9\03\13\03\b9\03\14\03\b9\03\13\03\00\03\b9\03\14\03\00\03\b9\03\13\03\01\03\b9\03\14\03\01\03\b9\03\13\03B\03\b9\03\14\03B\03\99\03\13\03\99\03\14\03\99\03\13\03\00\03\99\03\14\03\00\03\99\03\13\03\01\03\99\03\14\03\01\03\99\03\13\03B\03\99\03\14\03B\03\bf\03\13\03\bf\03\14\03\bf\03\13\03\00\03\bf\03\14\03\00\03\bf\03\13\03\01\03\bf\03\14\03\01\03\9f\03\13\03\9f\03\14\03\9f\03\13\03\00\03\9f\03\14\03\00\03\9f\03\13\03\01\03\9f\03\14\03\01\03\c5\03\13\03\c5\03\14\03\c5\03\13\03\00\03\c5\03\14\03\00\03\c5\03\13\03\01\03\c5\03\14\03\01\03\c5\03\13\03B\03\c5\03\14\03B\03\a5\03\14\03\a5\03\14\03\00\03\a5\03\14\03\01\03\a5\03\14\03B\03\c9\03\13\03\c9\03\14\03\c9\03\13\03\00\03\c9\03\14\03\00\03\c9\03\13\03\01\03\c9\03\14\03\01\03\c9\03\13\03B\03\c9\03\14\03B\03\a9\03\13\03\a9\03\14\03\a9\03\13\03\00\03\a9\03\14\03\00\03\a9\03\13\03\01\03\a9\03\14\03\01\03\a9\03\13\03B\03\a9\03\14\03B\03\b1\03\00\03\b1\03\01\03\b5\03\00\03\b5\03\01\03\b7\03\00\03\b7\03\01\03\b9\03\00\03\b9\03\01\03\bf\03\00\03\bf\03\01\03\c5\03\00\03\c5\03\01\03\c9\03\00\03\c9\03\01\03\b1\03\13\03E\03\b1\03\14\03E\03\b1\03\13\03\00\03E\03\b1\03\14\03\00\03E\03\b1\03\13\03\01\03E\03\b1\03\14\03\01\03E\03\b1\03\13\03B\03E\03\b1\03\14\03B\03E\03\91\03\13\03E\03\91\03\14\03E\03\91\03\13\03\00\03E\03\91\03\14\03\00\03E\03\91\03\13\03\01\03E\03\91\03\14\03\01\03E\03\91\03\13\03B\03E\03\91\03\14\03B\03E\03\b7\03\13\03E\03\b7\03\14\03E\03\b7\03\13\03\00\03E\03\b7\03\14\03\00\03E\03\b7\03\13\03\01\03E\03\b7\03\14\03\01\03E\03\b7\03\13\03B\03E\03\b7\03\14\03B\03E\03\97\03\13\03E\03\97\03\14\03E\03\97\03\13\03\00\03E\03\97\03\14\03\00\03E\03\97\03\13\03\01\03E\03\97\03\14\03\01\03E\03\97\03\13\03B\03E\03\97\03\14\03B\03E\03\c9\03\13\03E\03\c9\03\14\03E\03\c9\03\13\03\00\03E\03\c9\03\14\03\00\03E\03\c9\03\13\03\01\03E\03\c9\03\14\03\01\03E\03\c9\03\13\03B\03E\03\c9\03\14\03B\03E\03\a9\03\13\03E\03\a9\03\14\03E\03\a9\03\13\03\00\03E\03\a9\03\14\03\00\03E\03\a9\03\13\03\01\03E\03\a9\03\14\03\01\03E\03\a9\03\13\03B\03E\03\a9\03\14\03B\03E\03\b1\03\06\03\b1\03\04\03\b1\03\00\03E\03\b1\03E\03\b1\03\01\03E\03\b1\03B\03\b1\03B\03E\03\91\03\06\03\91\03\04\03\91\03\00\03\91\03\01\03\91\03E\03\b9\03\a8\00B\03\b7\03\00\03E\03\b7\03E\03\b7\03\01\03E\03\b7\03B\03\b7\03B\03E\03\95\03\00\03\95\03\01\03\97\03\00\03\97\03\01\03\97\03E\03\bf\1f\00\03\bf\1f\01\03\bf\1fB\03\b9\03\06\03\b9\03\04\03\b9\03\08\03\00\03\b9\03\08\03\01\03\b9\03B\03\b9\03\08\03B\03\99\03\06\03\99\03\04\03\99\03\00\03\99\03\01\03\fe\1f\00\03\fe\1f\01\03\fe\1fB\03\c5\03\06\03\c5\03\04\03\c5\03\08\03\00\03\c5\03\08\03\01\03\c1\03\13\03\c1\03\14\03\c5\03B\03\c5\03\08\03B\03\a5\03\06\03\a5\03\04\03\a5\03\00\03\a5\03\01\03\a1\03\14\03\a8\00\00\03\a8\00\01\03`\00\c9\03\00\03E\03\c9\03E\03\c9\03\01\03E\03\c9\03B\03\c9\03B\03E\03\9f\03\00\03\9f\03\01\03\a9\03\00\03\a9\03\01\03\a9\03E\03\b4\00\02 \03 \a9\03K\00A\00\n\03\90!8\03\92!8\03\94!8\03\d0!8\03\d4!8\03\d2!8\03\03\"8\03\08\"8\03\0b\"8\03#\"8\03%\"8\03<\"8\03C\"8\03E\"8\03H\"8\03=\008\03a\"8\03M\"8\03<\008\03>\008\03d\"8\03e\"8\03r\"8\03s\"8\03v\"8\03w\"8\03z\"8\03{\"8\03\82\"8\03\83\"8\03\86\"8\03\87\"8\03\a2\"8\03\a8\"8\03\a9\"8\03\ab\"8\03|\"8\03}\"8\03\91\"8\03\92\"8\03\b2\"8\03\b3\"8\03\b4\"8\03\b5\"8\03\080\t0\dd*8\03K0\990M0\990O0\990Q0\990S0\990U0\990W0\990Y0\990[0\990]0\990_0\990a0\990d0\990f0\990h0\990o0\990o0\9a0r0\990r0\9a0u0\990u0\9a0x0\990x0\9a0{0\990{0\9a0F0\990\9d0\990\ab0\990\ad0\990\af0\990\b10\990\b30\990\b50\990\b70\990\b90\990\bb0\990\bd0\990\bf0\990\c10\990\c40\990\c60\990\c80\990\cf0\990\cf0\9a0\d20\990\d20\9a0\d50\990\d50\9a0\d80\990\d80\9a0\db0\990\db0\9a0\a60\990\ef0\990\f00\990\f10\990\f20\990\fd0\990H\8c\f4f\ca\8e\c8\8c\d1n2N\e5S\9c\9f\9c\9fQY\d1\91\87UHY\f6aiv\85\7f?\86\ba\87\f8\88\8f\90\02j\1bm\d9p\des=\84j\91\f1\99\82NuS\04k\1br-\86\1e\9eP]\ebo\cd\85d\89\c9b\d8\81\1f\88\ca^\17gjm\fcr\ce\90\86O\b7Q\deR\c4d\d3j\10r\e7v\01\80\06\86\\\86\ef\8d2\97o\9b\fa\9d\8cx\7fy\a0}\c9\83\04\93\7f\9e\d6\8a\dfX\04_`|~\80br\cax\c2\8c\f7\96\d8Xb\\\13j\dam\0fo/}7~K\96\d2R\8b\80\dcQ\ccQ\1cz\be}\f1\83u\96\80\8b\cfb\02j\fe\8a9N\e7[\12`\87spu\17S\fbx\bfO\a9_\0dN\cclxe\"}\c3S^X\01wI\84\aa\8a\bak\b0\8f\88l\feb\e5\82\a0ceu\aeNiQ\c9Q\81h\e7|o\82\d2\8a\cf\91\f5RBTsY\ec^\c5e\feo*y\ad\95j\9a\97\9e\ce\9e\9bR\c6fwkb\8ft^\90a\00b\9ad#oIq\89t\cay\f4}o\80&\8f\ee\84#\90J\93\17R\a3R\bdT\c8p\c2\88\aa\8a\c9^\f5_{c\aek>|us\e4N\f9V\e7[\ba]\1c`\b2sit\9a\7fF\804\92\f6\96H\97\18\98\8bO\aey\b4\91\b8\96\e1`\86N\daP\ee[?\\\99e\02j\ceqBv\fc\84|\90\8d\9f\88f.\96\89R{g\f3gAm\9cn\ttYukx\10}^\98mQ.bx\96+P\19]\eam*\8f\8b_Da\17h\87s\86\96)R\0fTe\\\13fNg\a8h\e5l\06t\e2uy\7f\cf\88\e1\88\cc\91\e2\96?S\ban\1dT\d0q\98t\fa\85\a3\96W\9c\9f\9e\97g\cbm\e8\81\cbz {\92|\c0r\99pX\8b\c0N6\83:R\07R\a6^\d3b\d6|\85[\1em\b4f;\8fL\88M\96\8b\89\d3^@Q\c0UZXtf\deQ*s\cav<y^yey\8fyV\97\be|\bd\7f\12\86\f8\8a8\90\fd\90\ef\98\fc\98(\99\b4\9d\de\90\b7\96\aeO\e7PMQ\c9R\e4RQS\9dU\06VhV@X\a8Xd\\n\\\94`ha\8ea\f2aOe\e2e\91f\85hwm\1an\"onq+r\"t\91x>yIyHyPyVy]y\8dy\8ey@z\81z\c0{\f4}\t~A~r\7f\05\80\ed\81y\82y\82W\84\10\89\96\89\01\8b9\8b\d3\8c\08\8d\b6\8f8\90\e3\96\ff\97;\98u`P\d8\ee\de\18\82&N\b5QhQ\80OEQ\80Q\c7R\faR\9dUUU\99U\e2UZX\b3XDYTYbZ([\d2^\d9^i_\ad_\d8`Na\08a\8ea`a\f2a4b\c4c\1cdRdVetf\17g\1bgVgyk\bakAm\dbn\cbn\"o\1epnq\a7w5r\afr*sqt\06u;u\1dv\1fv\cav\dbv\f4vJw@w\ccx\b1z\c0{{|[}\f4}>\7f\05\80R\83\ef\83y\87A\89\86\89\96\89\bf\8a\f8\8a\cb\8a\01\8b\fe\8a\ed\8a9\8b\8a\8b\08\8d8\8fr\90\99\91v\92|\96\e3\96V\97\db\97\ff\97\0b\98;\98\12\9b\9c\9fJ\d8J\dcJ\d8D\dcL\d8\d5\df\9d;\18@9@T\d8I\deW\d8\d0\dc_\d8\d3\deC\9f\8e\9f\d9\05\b4\05\f2\05\b7\05\e9\05\c1\05\e9\05\c2\05\e9\05\bc\05\c1\05\e9\05\bc\05\c2\05\d0\05\b7\05\d0\05\b8\05\d0\05\bc\05\d1\05\bc\05\d2\05\bc\05\d3\05\bc\05\d4\05\bc\05\d5\05\bc\05\d6\05\bc\05\d8\05\bc\05\d9\05\bc\05\da\05\bc\05\db\05\bc\05\dc\05\bc\05\de\05\bc\05\e0\05\bc\05\e1\05\bc\05\e3\05\bc\05\e4\05\bc\05\e6\05\bc\05\e7\05\bc\05\e8\05\bc\05\e9\05\bc\05\ea\05\bc\05\d5\05\b9\05\d1\05\bf\05\db\05\bf\05\e4\05\bf\05\01\d8\d2\dd\07\03\01\d8\da\dd\07\03\04\d8\99\dc\04\d8\ba\dc\04\d8\9b\dc\04\d8\ba\dc\04\d8\a5\dc\04\d8\ba\dc\04\d81\dd\04\d8\'\dd\04\d82\dd\04\d8\'\dd\04\d8G\df\04\d8>\df\04\d8G\df\04\d8W\df\04\d8\82\df\04\d8\c9\df\04\d8\84\df\04\d8\bb\df\04\d8\8b\df\04\d8\c2\df\04\d8\90\df\04\d8\c9\df\04\d8\c2\df\04\d8\c2\df\04\d8\c2\df\04\d8\b8\df\04\d8\c2\df\04\d8\c9\df\05\d8\b9\dc\05\d8\ba\dc\05\d8\b9\dc\05\d8\b0\dc\05\d8\b9\dc\05\d8\bd\dc\05\d8\b8\dd\05\d8\af\dd\05\d8\b9\dd\05\d8\af\dd\06\d85\dd\06\d80\dd\18\d8\1e\dd\18\d8\1e\dd\18\d8\1e\dd\18\d8)\dd\18\d8\1e\dd\18\d8\1f\dd\18\d8)\dd\18\d8\1f\dd\18\d8\1e\dd\18\d8 \dd\18\d8\1e\dd\18\d8\1e\dd\18\d8\1f\dd\18\d8\1e\dd\18\d8)\dd\18\d8\1f\dd\18\d8\1e\dd\18\d8\1e\dd\18\d8 \dd\1b\d8g\dd\1b\d8g\dd\1b\d8c\dd\1b\d8g\dd\1b\d8c\dd\1b\d8g\dd\1b\d8g\dd4\d8W\dd4\d8e\dd4\d8X\dd4\d8e\dd4\d8X\dd4\d8e\dd4\d8n\dd4\d8X\dd4\d8e\dd4\d8o\dd4\d8X\dd4\d8e\dd4\d8p\dd4\d8X\dd4\d8e\dd4\d8q\dd4\d8X\dd4\d8e\dd4\d8r\dd4\d8\b9\dd4\d8e\dd4\d8\ba\dd4\d8e\dd4\d8\b9\dd4\d8e\dd4\d8n\dd4\d8\ba\dd4\d8e\dd4\d8n\dd4\d8\b9\dd4\d8e\dd4\d8o\dd4\d8\ba\dd4\d8e\dd4\d8o\dd=N8NAN@\d8\"\dd`O\aeO\bbO\02PzP\99P\e7P\cfP\9e4A\d8:\deMQTQdQwQA\d8\1c\dd\b94gQ\8dQA\d8K\dd\97Q\a4Q\ccN\acQ\b5Qd\d8\df\dd\f5Q\03R\df4;RFRrRwR\155\c7R\c9R\e4R\faR\05S\06S\17SISQSZSsS}S\7fS\7fS\7fSB\d8,\depp\caS\dfSB\d8c\df\ebS\f1S\06T\9eT8THThT\a2T\f6T\10USUcU\84U\84U\99U\abU\b3U\c2U\16W\06V\17WQVtV\07R\eeX\ceW\f4W\0dX\8bW2X1X\acXE\d8\e4\dc\f2X\f7X\06Y\1aY\"YbYE\d8\a8\deE\d8\ea\de\ecY\1bZ\'Z\d8YfZ\ee6\fc6\08[>[>[F\d8\c8\dd\c3[\d8[\e7[\f3[F\d8\18\df\ff[\06\\S_\"\\\817`\\n\\\c0\\\8d\\G\d8\e4\ddC]G\d8\e6\ddn]k]|]\e1]\e2]/8\fd](^=^i^b8H\d8\83\dd|8\b0^\b3^\b6^\ca^h\d8\92\df\fe^H\d81\dfH\d81\df\01\82\"_\"_\c78L\d8\b8\deX\d8\da\ddb_k_\e38\9a_\cd_\d7_\f9_\81`:9\1c9\94`I\d8\d4\de\c7`HaLaNaLaza\8ea\b2a\a4a\afa\dea\f2a\f6a\10b\1bb]b\b1b\d4bPcJ\d8\0c\df=c\fcbhc\83c\e4cJ\d8\f1\df\"d\c5c\a9c.:id~d\9ddwdl:OeleL\d8\n\dc\e3e\f8fIf\19;\91f\08;\e4:\92Q\95Q\00g\9cf\ad\80\d9C\17g\1bg!g^gSgL\d8\c3\dfI;\fag\85gRh\85hM\d8m\dc\8eh\1fh\14i\9d;Bi\a3i\eai\a8jM\d8\a3\de\dbj\18<!kN\d8\a7\dcTkN<rk\9fk\bak\bbkN\d8\8d\deG\d8\0b\ddN\d8\fa\deNlO\d8\bc\dc\bfl\cdlgl\16m>mwmAmimxm\85mO\d8\1e\dd4m/nnn3=\cbn\c7nO\d8\d1\de\f9mnoO\d8^\dfO\d8\8e\df\c6o9p\1ep\1bp\96=Jp}pwp\adpA\d8%\ddEqP\d8c\de\9cqP\d8\ab\df(r5rPrQ\d8\08\de\80r\95rQ\d85\dfR\d8\14\dczs\8bs\ac>\a5s\b8>\b8>Gt\\tqt\85t\cat\1b?$uS\d86\dc>uS\d8\92\dcpuH\d8\9f\dd\10vS\d8\a1\dfS\d8\b8\dfT\d8D\dc\fc?\08@\f4vT\d8\f3\dcT\d8\f2\dcT\d8\19\ddT\d83\dd\1ew\1fw\1fwJw9@\8bwF@\96@U\d8\1d\dcNx\8cx\ccx\e3@U\d8&\deVyU\d8\9a\deU\d8\c5\de\8fy\eby/A@zJzOzV\d8|\ddV\d8\a7\deV\d8\a7\de\eez\02BV\d8\ab\df\c6{\c9{\'BW\d8\80\dc\d2|\a0B\e8|\e3|\00}W\d8\86\dfc}\01C\c7}\02~E~4CX\d8(\deX\d8G\deYCX\d8\d9\dez\7fX\d8>\df\95\7f\fa\7f\05\80Y\d8\da\dcY\d8#\dd`\80Y\d8\a8\ddp\80L\d8_\df\d5C\b2\80\03\81\0bD>\81\b5ZY\d8\a7\dfY\d8\b5\dfL\d8\93\dfL\d8\9c\df\01\82\04\82\9e\8fkD\91\82\8b\82\9d\82\b3R\b1\82\b3\82\bd\82\e6\82Z\d8<\df\e5\82\1d\83c\83\ad\83#\83\bd\83\e7\83W\84S\83\ca\83\cc\83\dc\83[\d86\dc[\d8k\dd[\d8\d5\dc+E\f1\84\f3\84\16\85\\\d8\ca\dfd\85[\d8,\df]EaE[\d8\b1\df\\\d8\d2\dckEP\86\\\86g\86i\86\a9\86\88\86\0e\87\e2\86y\87(\87k\87\86\87\d7E\e1\87\01\88\f9E`\88c\88]\d8g\de\d7\88\de\885F\fa\88\bb4^\d8\ae\dc^\d8f\dd\beF\c7F\a0\8a\ed\8a\8a\8bU\8c_\d8\a8\dc\ab\8c\c1\8c\1b\8dw\8d_\d8/\dfB\d8\04\dc\cb\8d\bc\8d\f0\8dB\d8\de\dc\d4\8e8\8fa\d8\d2\dda\d8\ed\dd\94\90\f1\90\11\91a\d8.\df\1b\918\92\d7\92\d8\92|\92\f9\93\15\94b\d8\fa\df\8b\95\95I\b7\95c\d8w\dd\e6I\c3\96\b2]#\97d\d8E\ddd\d8\1a\denJvJ\e0\97e\d8\n\dc\b2Je\d8\96\dc\0b\98\0b\98)\98e\d8\b6\dd\e2\983K)\99\a7\99\c2\99\fe\99\ceKf\d80\df\12\9b@\9c\fd\9c\ceL\edLg\9dh\d8\ce\dc\f8Lh\d8\05\ddh\d8\0e\deh\d8\91\de\bb\9eVM\f9\9e\fe\9e\05\9f\0f\9f\16\9f;\9fi\d8\00\de\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 76136) "h\t\01\00Q\0e\00\00")
+ (data (i32.const 76144) "@x\00\00\00\00\00\00\a0\00\00\00\01\00\00\00\a8\00\00\00\"\00\00\00\aa\00\00\00a\00\00\00\af\00\00\00\82\00\00\00\b2\00\00\00\c1\00\00\00\b3\00\00\00\e1\00\00\00\b4\00\00\00\02\01\00\00\b5\00\00\00A\01\00\00\b8\00\00\00b\01\00\00\b9\00\00\00\a1\01\00\00\ba\00\00\00\c1\01\00\00\bc\00\00\00\e3\01\00\00\bd\00\00\00C\02\00\00\be\00\00\00\a3\02\00\002\01\00\00\02\03\00\003\01\00\00B\03\00\00?\01\00\00\82\03\00\00@\01\00\00\c2\03\00\00I\01\00\00\02\04\00\00\7f\01\00\00A\04\00\00\c4\01\00\00c\04\00\00\c5\01\00\00\c3\04\00\00\c6\01\00\00#\05\00\00\c7\01\00\00\82\05\00\00\c8\01\00\00\c2\05\00\00\c9\01\00\00\02\06\00\00\ca\01\00\00B\06\00\00\cb\01\00\00\82\06\00\00\cc\01\00\00\c2\06\00\00\f1\01\00\00\02\07\00\00\f2\01\00\00B\07\00\00\f3\01\00\00\82\07\00\00\b0\02\00\00\c1\07\00\00\b1\02\00\00\e1\07\00\00\b2\02\00\00\01\08\00\00\b3\02\00\00!\08\00\00\b4\02\00\00A\08\00\00\b5\02\00\00a\08\00\00\b6\02\00\00\81\08\00\00\b7\02\00\00\a1\08\00\00\b8\02\00\00\c1\08\00\00\d8\02\00\00\e2\08\00\00\d9\02\00\00\"\t\00\00\da\02\00\00b\t\00\00\db\02\00\00\a2\t\00\00\dc\02\00\00\e2\t\00\00\dd\02\00\00\"\n\00\00\e0\02\00\00a\n\00\00\e1\02\00\00\81\n\00\00\e2\02\00\00\a1\n\00\00\e3\02\00\00\c1\n\00\00\e4\02\00\00\e1\n\00\00z\03\00\00\02\0b\00\00\84\03\00\00B\0b\00\00\85\03\00\00\83\0b\00\00\d0\03\00\00\e1\0b\00\00\d1\03\00\00\01\0c\00\00\d2\03\00\00!\0c\00\00\d3\03\00\00B\0c\00\00\d4\03\00\00\82\0c\00\00\d5\03\00\00\c1\0c\00\00\d6\03\00\00\e1\0c\00\00\f0\03\00\00\01\0d\00\00\f1\03\00\00!\0d\00\00\f2\03\00\00A\0d\00\00\f4\03\00\00a\0d\00\00\f5\03\00\00\81\0d\00\00\f9\03\00\00\a1\0d\00\00\87\05\00\00\c2\0d\00\00u\06\00\00\02\0e\00\00v\06\00\00B\0e\00\00w\06\00\00\82\0e\00\00x\06\00\00\c2\0e\00\003\0e\00\00\02\0f\00\00\b3\0e\00\00B\0f\00\00\dc\0e\00\00\82\0f\00\00\dd\0e\00\00\c2\0f\00\00\0c\0f\00\00\01\10\00\00w\0f\00\00#\10\00\00y\0f\00\00\83\10\00\00\fc\10\00\00\e1\10\00\00,\1d\00\00\01\11\00\00-\1d\00\00!\11\00\00.\1d\00\00A\11\00\000\1d\00\00a\11\00\001\1d\00\00\81\11\00\002\1d\00\00\a1\11\00\003\1d\00\00\c1\11\00\004\1d\00\00\e1\11\00\005\1d\00\00\01\12\00\006\1d\00\00!\12\00\007\1d\00\00A\12\00\008\1d\00\00a\12\00\009\1d\00\00\81\12\00\00:\1d\00\00\a1\12\00\00<\1d\00\00\c1\12\00\00=\1d\00\00\e1\12\00\00>\1d\00\00\01\13\00\00?\1d\00\00!\13\00\00@\1d\00\00A\13\00\00A\1d\00\00a\13\00\00B\1d\00\00\81\13\00\00C\1d\00\00\a1\13\00\00D\1d\00\00\c1\13\00\00E\1d\00\00\e1\13\00\00F\1d\00\00\01\14\00\00G\1d\00\00!\14\00\00H\1d\00\00A\14\00\00I\1d\00\00a\14\00\00J\1d\00\00\81\14\00\00K\1d\00\00\a1\14\00\00L\1d\00\00\c1\14\00\00M\1d\00\00\e1\14\00\00O\1d\00\00\01\15\00\00P\1d\00\00!\15\00\00Q\1d\00\00A\15\00\00R\1d\00\00a\15\00\00S\1d\00\00\81\15\00\00T\1d\00\00\a1\15\00\00U\1d\00\00\c1\15\00\00V\1d\00\00\e1\15\00\00W\1d\00\00\01\16\00\00X\1d\00\00!\16\00\00Y\1d\00\00A\16\00\00Z\1d\00\00a\16\00\00[\1d\00\00\81\16\00\00\\\1d\00\00\a1\16\00\00]\1d\00\00\c1\16\00\00^\1d\00\00\e1\16\00\00_\1d\00\00\01\17\00\00`\1d\00\00!\17\00\00a\1d\00\00A\17\00\00b\1d\00\00a\17\00\00c\1d\00\00\81\17\00\00d\1d\00\00\a1\17\00\00e\1d\00\00\c1\17\00\00f\1d\00\00\e1\17\00\00g\1d\00\00\01\18\00\00h\1d\00\00!\18\00\00i\1d\00\00A\18\00\00j\1d\00\00a\18\00\00x\1d\00\00\81\18\00\00\9b\1d\00\00\a1\18\00\00\9c\1d\00\00\c1\18\00\00\9d\1d\00\00\e1\18\00\00\9e\1d\00\00\01\19\00\00\9f\1d\00\00!\19\00\00\a0\1d\00\00A\19\00\00\a1\1d\00\00a\19\00\00\a2\1d\00\00\81\19\00\00\a3\1d\00\00\a1\19\00\00\a4\1d\00\00\c1\19\00\00\a5\1d\00\00\e1\19\00\00\a6\1d\00\00\01\1a\00\00\a7\1d\00\00!\1a\00\00\a8\1d\00\00A\1a\00\00\a9\1d\00\00a\1a\00\00\aa\1d\00\00\81\1a\00\00\ab\1d\00\00\a1\1a\00\00\ac\1d\00\00\c1\1a\00\00\ad\1d\00\00\e1\1a\00\00\ae\1d\00\00\01\1b\00\00\af\1d\00\00!\1b\00\00\b0\1d\00\00A\1b\00\00\b1\1d\00\00a\1b\00\00\b2\1d\00\00\81\1b\00\00\b3\1d\00\00\a1\1b\00\00\b4\1d\00\00\c1\1b\00\00\b5\1d\00\00\e1\1b\00\00\b6\1d\00\00\01\1c\00\00\b7\1d\00\00!\1c\00\00\b8\1d\00\00A\1c\00\00\b9\1d\00\00a\1c\00\00\ba\1d\00\00\81\1c\00\00\bb\1d\00\00\a1\1c\00\00\bc\1d\00\00\c1\1c\00\00\bd\1d\00\00\e1\1c\00\00\be\1d\00\00\01\1d\00\00\bf\1d\00\00!\1d\00\00\9a\1e\00\00B\1d\00\00\9b\1e\00\00\82\1d\00\00\bd\1f\00\00\c2\1d\00\00\bf\1f\00\00\02\1e\00\00\c0\1f\00\00B\1e\00\00\c1\1f\00\00\83\1e\00\00\cd\1f\00\00\e3\1e\00\00\ce\1f\00\00C\1f\00\00\cf\1f\00\00\a3\1f\00\00\dd\1f\00\00\03 \00\00\de\1f\00\00c \00\00\df\1f\00\00\c3 \00\00\ed\1f\00\00#!\00\00\ee\1f\00\00\83!\00\00\fd\1f\00\00\e2!\00\00\fe\1f\00\00\"\"\00\00\00 \00\00a\"\00\00\01 \00\00\81\"\00\00\02 \00\00\a1\"\00\00\03 \00\00\c1\"\00\00\04 \00\00\e1\"\00\00\05 \00\00\01#\00\00\06 \00\00!#\00\00\07 \00\00A#\00\00\08 \00\00a#\00\00\t \00\00\81#\00\00\n \00\00\a1#\00\00\11 \00\00\c1#\00\00\17 \00\00\e2#\00\00$ \00\00!$\00\00% \00\00B$\00\00& \00\00\83$\00\00/ \00\00\e1$\00\003 \00\00\02%\00\004 \00\00C%\00\006 \00\00\a2%\00\007 \00\00\e3%\00\00< \00\00B&\00\00> \00\00\82&\00\00G \00\00\c2&\00\00H \00\00\02\'\00\00I \00\00B\'\00\00W \00\00\84\'\00\00_ \00\00\01(\00\00p \00\00!(\00\00q \00\00A(\00\00t \00\00a(\00\00u \00\00\81(\00\00v \00\00\a1(\00\00w \00\00\c1(\00\00x \00\00\e1(\00\00y \00\00\01)\00\00z \00\00!)\00\00{ \00\00A)\00\00| \00\00a)\00\00} \00\00\81)\00\00~ \00\00\a1)\00\00\7f \00\00\c1)\00\00\80 \00\00\e1)\00\00\81 \00\00\01*\00\00\82 \00\00!*\00\00\83 \00\00A*\00\00\84 \00\00a*\00\00\85 \00\00\81*\00\00\86 \00\00\a1*\00\00\87 \00\00\c1*\00\00\88 \00\00\e1*\00\00\89 \00\00\01+\00\00\8a \00\00!+\00\00\8b \00\00A+\00\00\8c \00\00a+\00\00\8d \00\00\81+\00\00\8e \00\00\a1+\00\00\90 \00\00\c1+\00\00\91 \00\00\e1+\00\00\92 \00\00\01,\00\00\93 \00\00!,\00\00\94 \00\00A,\00\00\95 \00\00a,\00\00\96 \00\00\81,\00\00\97 \00\00\a1,\00\00\98 \00\00\c1,\00\00\99 \00\00\e1,\00\00\9a \00\00\01-\00\00\9b \00\00!-\00\00\9c \00\00A-\00\00\a8 \00\00b-\00\00\00!\00\00\a3-\00\00\01!\00\00\03.\00\00\02!\00\00a.\00\00\03!\00\00\82.\00\00\05!\00\00\c3.\00\00\06!\00\00#/\00\00\07!\00\00\81/\00\00\t!\00\00\a2/\00\00\n!\00\00\e1/\00\00\0b!\00\00\010\00\00\0c!\00\00!0\00\00\0d!\00\00A0\00\00\0e!\00\00a0\00\00\0f!\00\00\810\00\00\10!\00\00\a10\00\00\11!\00\00\c10\00\00\12!\00\00\e10\00\00\13!\00\00\011\00\00\15!\00\00!1\00\00\16!\00\00B1\00\00\19!\00\00\811\00\00\1a!\00\00\a11\00\00\1b!\00\00\c11\00\00\1c!\00\00\e11\00\00\1d!\00\00\012\00\00 !\00\00\"2\00\00!!\00\00c2\00\00\"!\00\00\c22\00\00$!\00\00\013\00\00(!\00\00!3\00\00,!\00\00A3\00\00-!\00\00a3\00\00/!\00\00\813\00\000!\00\00\a13\00\001!\00\00\c13\00\003!\00\00\e13\00\004!\00\00\014\00\005!\00\00!4\00\006!\00\00A4\00\007!\00\00a4\00\008!\00\00\814\00\009!\00\00\a14\00\00;!\00\00\c34\00\00<!\00\00!5\00\00=!\00\00A5\00\00>!\00\00a5\00\00?!\00\00\815\00\00@!\00\00\a15\00\00E!\00\00\c15\00\00F!\00\00\e15\00\00G!\00\00\016\00\00H!\00\00!6\00\00I!\00\00A6\00\00P!\00\00c6\00\00Q!\00\00\c36\00\00R!\00\00$7\00\00S!\00\00\a37\00\00T!\00\00\038\00\00U!\00\00c8\00\00V!\00\00\c38\00\00W!\00\00#9\00\00X!\00\00\839\00\00Y!\00\00\e39\00\00Z!\00\00C:\00\00[!\00\00\a3:\00\00\\!\00\00\03;\00\00]!\00\00c;\00\00^!\00\00\c3;\00\00_!\00\00\"<\00\00`!\00\00a<\00\00a!\00\00\82<\00\00b!\00\00\c3<\00\00c!\00\00\"=\00\00d!\00\00a=\00\00e!\00\00\82=\00\00f!\00\00\c3=\00\00g!\00\00$>\00\00h!\00\00\a2>\00\00i!\00\00\e1>\00\00j!\00\00\02?\00\00k!\00\00C?\00\00l!\00\00\a1?\00\00m!\00\00\c1?\00\00n!\00\00\e1?\00\00o!\00\00\01@\00\00p!\00\00!@\00\00q!\00\00B@\00\00r!\00\00\83@\00\00s!\00\00\e2@\00\00t!\00\00!A\00\00u!\00\00BA\00\00v!\00\00\83A\00\00w!\00\00\e4A\00\00x!\00\00bB\00\00y!\00\00\a1B\00\00z!\00\00\c2B\00\00{!\00\00\03C\00\00|!\00\00aC\00\00}!\00\00\81C\00\00~!\00\00\a1C\00\00\7f!\00\00\c1C\00\00\89!\00\00\e3C\00\00,\"\00\00BD\00\00-\"\00\00\83D\00\00/\"\00\00\e2D\00\000\"\00\00#E\00\00`$\00\00\81E\00\00a$\00\00\a1E\00\00b$\00\00\c1E\00\00c$\00\00\e1E\00\00d$\00\00\01F\00\00e$\00\00!F\00\00f$\00\00AF\00\00g$\00\00aF\00\00h$\00\00\81F\00\00i$\00\00\a2F\00\00j$\00\00\e2F\00\00k$\00\00\"G\00\00l$\00\00bG\00\00m$\00\00\a2G\00\00n$\00\00\e2G\00\00o$\00\00\"H\00\00p$\00\00bH\00\00q$\00\00\a2H\00\00r$\00\00\e2H\00\00s$\00\00\"I\00\00t$\00\00cI\00\00u$\00\00\c3I\00\00v$\00\00#J\00\00w$\00\00\83J\00\00x$\00\00\e3J\00\00y$\00\00CK\00\00z$\00\00\a3K\00\00{$\00\00\03L\00\00|$\00\00cL\00\00}$\00\00\c4L\00\00~$\00\00DM\00\00\7f$\00\00\c4M\00\00\80$\00\00DN\00\00\81$\00\00\c4N\00\00\82$\00\00DO\00\00\83$\00\00\c4O\00\00\84$\00\00DP\00\00\85$\00\00\c4P\00\00\86$\00\00DQ\00\00\87$\00\00\c4Q\00\00\88$\00\00BR\00\00\89$\00\00\82R\00\00\8a$\00\00\c2R\00\00\8b$\00\00\02S\00\00\8c$\00\00BS\00\00\8d$\00\00\82S\00\00\8e$\00\00\c2S\00\00\8f$\00\00\02T\00\00\90$\00\00BT\00\00\91$\00\00\83T\00\00\92$\00\00\e3T\00\00\93$\00\00CU\00\00\94$\00\00\a3U\00\00\95$\00\00\03V\00\00\96$\00\00cV\00\00\97$\00\00\c3V\00\00\98$\00\00#W\00\00\99$\00\00\83W\00\00\9a$\00\00\e3W\00\00\9b$\00\00CX\00\00\9c$\00\00\a3X\00\00\9d$\00\00\03Y\00\00\9e$\00\00cY\00\00\9f$\00\00\c3Y\00\00\a0$\00\00#Z\00\00\a1$\00\00\83Z\00\00\a2$\00\00\e3Z\00\00\a3$\00\00C[\00\00\a4$\00\00\a3[\00\00\a5$\00\00\03\\\00\00\a6$\00\00c\\\00\00\a7$\00\00\c3\\\00\00\a8$\00\00#]\00\00\a9$\00\00\83]\00\00\aa$\00\00\e3]\00\00\ab$\00\00C^\00\00\ac$\00\00\a3^\00\00\ad$\00\00\03_\00\00\ae$\00\00c_\00\00\af$\00\00\c3_\00\00\b0$\00\00#`\00\00\b1$\00\00\83`\00\00\b2$\00\00\e3`\00\00\b3$\00\00Ca\00\00\b4$\00\00\a3a\00\00\b5$\00\00\03b\00\00\b6$\00\00ab\00\00\b7$\00\00\81b\00\00\b8$\00\00\a1b\00\00\b9$\00\00\c1b\00\00\ba$\00\00\e1b\00\00\bb$\00\00\01c\00\00\bc$\00\00!c\00\00\bd$\00\00Ac\00\00\be$\00\00ac\00\00\bf$\00\00\81c\00\00\c0$\00\00\a1c\00\00\c1$\00\00\c1c\00\00\c2$\00\00\e1c\00\00\c3$\00\00\01d\00\00\c4$\00\00!d\00\00\c5$\00\00Ad\00\00\c6$\00\00ad\00\00\c7$\00\00\81d\00\00\c8$\00\00\a1d\00\00\c9$\00\00\c1d\00\00\ca$\00\00\e1d\00\00\cb$\00\00\01e\00\00\cc$\00\00!e\00\00\cd$\00\00Ae\00\00\ce$\00\00ae\00\00\cf$\00\00\81e\00\00\d0$\00\00\a1e\00\00\d1$\00\00\c1e\00\00\d2$\00\00\e1e\00\00\d3$\00\00\01f\00\00\d4$\00\00!f\00\00\d5$\00\00Af\00\00\d6$\00\00af\00\00\d7$\00\00\81f\00\00\d8$\00\00\a1f\00\00\d9$\00\00\c1f\00\00\da$\00\00\e1f\00\00\db$\00\00\01g\00\00\dc$\00\00!g\00\00\dd$\00\00Ag\00\00\de$\00\00ag\00\00\df$\00\00\81g\00\00\e0$\00\00\a1g\00\00\e1$\00\00\c1g\00\00\e2$\00\00\e1g\00\00\e3$\00\00\01h\00\00\e4$\00\00!h\00\00\e5$\00\00Ah\00\00\e6$\00\00ah\00\00\e7$\00\00\81h\00\00\e8$\00\00\a1h\00\00\e9$\00\00\c1h\00\00\ea$\00\00\e1h\00\00\0c*\00\00\04i\00\00t*\00\00\83i\00\00u*\00\00\e2i\00\00v*\00\00#j\00\00|,\00\00\81j\00\00},\00\00\a1j\00\00o-\00\00\c1j\00\00\9f.\00\00\e1j\00\00\f3.\00\00\01k\00\00\00/\00\00!k\00\00\01/\00\00Ak\00\00\02/\00\00ak\00\00\03/\00\00\81k\00\00\04/\00\00\a1k\00\00\05/\00\00\c1k\00\00\06/\00\00\e1k\00\00\07/\00\00\01l\00\00\08/\00\00!l\00\00\t/\00\00Al\00\00\n/\00\00al\00\00\0b/\00\00\81l\00\00\0c/\00\00\a1l\00\00\0d/\00\00\c1l\00\00\0e/\00\00\e1l\00\00\0f/\00\00\01m\00\00\10/\00\00!m\00\00\11/\00\00Am\00\00\12/\00\00am\00\00\13/\00\00\81m\00\00\14/\00\00\a1m\00\00\15/\00\00\c1m\00\00\16/\00\00\e1m\00\00\17/\00\00\01n\00\00\18/\00\00!n\00\00\19/\00\00An\00\00\1a/\00\00an\00\00\1b/\00\00\81n\00\00\1c/\00\00\a1n\00\00\1d/\00\00\c1n\00\00\1e/\00\00\e1n\00\00\1f/\00\00\01o\00\00 /\00\00!o\00\00!/\00\00Ao\00\00\"/\00\00ao\00\00#/\00\00\81o\00\00$/\00\00\a1o\00\00%/\00\00\c1o\00\00&/\00\00\e1o\00\00\'/\00\00\01p\00\00(/\00\00!p\00\00)/\00\00Ap\00\00*/\00\00ap\00\00+/\00\00\81p\00\00,/\00\00\a1p\00\00-/\00\00\c1p\00\00./\00\00\e1p\00\00//\00\00\01q\00\000/\00\00!q\00\001/\00\00Aq\00\002/\00\00aq\00\003/\00\00\81q\00\004/\00\00\a1q\00\005/\00\00\c1q\00\006/\00\00\e1q\00\007/\00\00\01r\00\008/\00\00!r\00\009/\00\00Ar\00\00:/\00\00ar\00\00;/\00\00\81r\00\00</\00\00\a1r\00\00=/\00\00\c1r\00\00>/\00\00\e1r\00\00?/\00\00\01s\00\00@/\00\00!s\00\00A/\00\00As\00\00B/\00\00as\00\00C/\00\00\81s\00\00D/\00\00\a1s\00\00E/\00\00\c1s\00\00F/\00\00\e1s\00\00G/\00\00\01t\00\00H/\00\00!t\00\00I/\00\00At\00\00J/\00\00at\00\00K/\00\00\81t\00\00L/\00\00\a1t\00\00M/\00\00\c1t\00\00N/\00\00\e1t\00\00O/\00\00\01u\00\00P/\00\00!u\00\00Q/\00\00Au\00\00R/\00\00au\00\00S/\00\00\81u\00\00T/\00\00\a1u\00\00U/\00\00\c1u\00\00V/\00\00\e1u\00\00W/\00\00\01v\00\00X/\00\00!v\00\00Y/\00\00Av\00\00Z/\00\00av\00\00[/\00\00\81v\00\00\\/\00\00\a1v\00\00]/\00\00\c1v\00\00^/\00\00\e1v\00\00_/\00\00\01w\00\00`/\00\00!w\00\00a/\00\00Aw\00\00b/\00\00aw\00\00c/\00\00\81w\00\00d/\00\00\a1w\00\00e/\00\00\c1w\00\00f/\00\00\e1w\00\00g/\00\00\01x\00\00h/\00\00!x\00\00i/\00\00Ax\00\00j/\00\00ax\00\00k/\00\00\81x\00\00l/\00\00\a1x\00\00m/\00\00\c1x\00\00n/\00\00\e1x\00\00o/\00\00\01y\00\00p/\00\00!y\00\00q/\00\00Ay\00\00r/\00\00ay\00\00s/\00\00\81y\00\00t/\00\00\a1y\00\00u/\00\00\c1y\00\00v/\00\00\e1y\00\00w/\00\00\01z\00\00x/\00\00!z\00\00y/\00\00Az\00\00z/\00\00az\00\00{/\00\00\81z\00\00|/\00\00\a1z\00\00}/\00\00\c1z\00\00~/\00\00\e1z\00\00\7f/\00\00\01{\00\00\80/\00\00!{\00\00\81/\00\00A{\00\00\82/\00\00a{\00\00\83/\00\00\81{\00\00\84/\00\00\a1{\00\00\85/\00\00\c1{\00\00\86/\00\00\e1{\00\00\87/\00\00\01|\00\00\88/\00\00!|\00\00\89/\00\00A|\00\00\8a/\00\00a|\00\00\8b/\00\00\81|\00\00\8c/\00\00\a1|\00\00\8d/\00\00\c1|\00\00\8e/\00\00\e1|\00\00\8f/\00\00\01}\00\00\90/\00\00!}\00\00\91/\00\00A}\00\00\92/\00\00a}\00\00\93/\00\00\81}\00\00\94/\00\00\a1}\00\00\95/\00\00\c1}\00\00\96/\00\00\e1}\00\00\97/\00\00\01~\00\00\98/\00\00!~\00\00\99/\00\00A~\00\00\9a/\00\00a~\00\00\9b/\00\00\81~\00\00\9c/\00\00\a1~\00\00\9d/\00\00\c1~\00\00\9e/\00\00\e1~\00\00\9f/\00\00\01\7f\00\00\a0/\00\00!\7f\00\00\a1/\00\00A\7f\00\00\a2/\00\00a\7f\00\00\a3/\00\00\81\7f\00\00\a4/\00\00\a1\7f\00\00\a5/\00\00\c1\7f\00\00\a6/\00\00\e1\7f\00\00\a7/\00\00\01\80\00\00\a8/\00\00!\80\00\00\a9/\00\00A\80\00\00\aa/\00\00a\80\00\00\ab/\00\00\81\80\00\00\ac/\00\00\a1\80\00\00\ad/\00\00\c1\80\00\00\ae/\00\00\e1\80\00\00\af/\00\00\01\81\00\00\b0/\00\00!\81\00\00\b1/\00\00A\81\00\00\b2/\00\00a\81\00\00\b3/\00\00\81\81\00\00\b4/\00\00\a1\81\00\00\b5/\00\00\c1\81\00\00\b6/\00\00\e1\81\00\00\b7/\00\00\01\82\00\00\b8/\00\00!\82\00\00\b9/\00\00A\82\00\00\ba/\00\00a\82\00\00\bb/\00\00\81\82\00\00\bc/\00\00\a1\82\00\00\bd/\00\00\c1\82\00\00\be/\00\00\e1\82\00\00\bf/\00\00\01\83\00\00\c0/\00\00!\83\00\00\c1/\00\00A\83\00\00\c2/\00\00a\83\00\00\c3/\00\00\81\83\00\00\c4/\00\00\a1\83\00\00\c5/\00\00\c1\83\00\00\c6/\00\00\e1\83\00\00\c7/\00\00\01\84\00\00\c8/\00\00!\84\00\00\c9/\00\00A\84\00\00\ca/\00\00a\84\00\00\cb/\00\00\81\84\00\00\cc/\00\00\a1\84\00\00\cd/\00\00\c1\84\00\00\ce/\00\00\e1\84\00\00\cf/\00\00\01\85\00\00\d0/\00\00!\85\00\00\d1/\00\00A\85\00\00\d2/\00\00a\85\00\00\d3/\00\00\81\85\00\00\d4/\00\00\a1\85\00\00\d5/\00\00\c1\85\00\00\000\00\00\e1\85\00\0060\00\00\01\86\00\0080\00\00!\86\00\0090\00\00A\86\00\00:0\00\00a\86\00\00\9b0\00\00\82\86\00\00\9c0\00\00\c2\86\00\00\9f0\00\00\02\87\00\00\ff0\00\00B\87\00\0011\00\00\81\87\00\0021\00\00\a1\87\00\0031\00\00\c1\87\00\0041\00\00\e1\87\00\0051\00\00\01\88\00\0061\00\00!\88\00\0071\00\00A\88\00\0081\00\00a\88\00\0091\00\00\81\88\00\00:1\00\00\a1\88\00\00;1\00\00\c1\88\00\00<1\00\00\e1\88\00\00=1\00\00\01\89\00\00>1\00\00!\89\00\00?1\00\00A\89\00\00@1\00\00a\89\00\00A1\00\00\81\89\00\00B1\00\00\a1\89\00\00C1\00\00\c1\89\00\00D1\00\00\e1\89\00\00E1\00\00\01\8a\00\00F1\00\00!\8a\00\00G1\00\00A\8a\00\00H1\00\00a\8a\00\00I1\00\00\81\8a\00\00J1\00\00\a1\8a\00\00K1\00\00\c1\8a\00\00L1\00\00\e1\8a\00\00M1\00\00\01\8b\00\00N1\00\00!\8b\00\00O1\00\00A\8b\00\00P1\00\00a\8b\00\00Q1\00\00\81\8b\00\00R1\00\00\a1\8b\00\00S1\00\00\c1\8b\00\00T1\00\00\e1\8b\00\00U1\00\00\01\8c\00\00V1\00\00!\8c\00\00W1\00\00A\8c\00\00X1\00\00a\8c\00\00Y1\00\00\81\8c\00\00Z1\00\00\a1\8c\00\00[1\00\00\c1\8c\00\00\\1\00\00\e1\8c\00\00]1\00\00\01\8d\00\00^1\00\00!\8d\00\00_1\00\00A\8d\00\00`1\00\00a\8d\00\00a1\00\00\81\8d\00\00b1\00\00\a1\8d\00\00c1\00\00\c1\8d\00\00d1\00\00\e1\8d\00\00e1\00\00\01\8e\00\00f1\00\00!\8e\00\00g1\00\00A\8e\00\00h1\00\00a\8e\00\00i1\00\00\81\8e\00\00j1\00\00\a1\8e\00\00k1\00\00\c1\8e\00\00l1\00\00\e1\8e\00\00m1\00\00\01\8f\00\00n1\00\00!\8f\00\00o1\00\00A\8f\00\00p1\00\00a\8f\00\00q1\00\00\81\8f\00\00r1\00\00\a1\8f\00\00s1\00\00\c1\8f\00\00t1\00\00\e1\8f\00\00u1\00\00\01\90\00\00v1\00\00!\90\00\00w1\00\00A\90\00\00x1\00\00a\90\00\00y1\00\00\81\90\00\00z1\00\00\a1\90\00\00{1\00\00\c1\90\00\00|1\00\00\e1\90\00\00}1\00\00\01\91\00\00~1\00\00!\91\00\00\7f1\00\00A\91\00\00\801\00\00a\91\00\00\811\00\00\81\91\00\00\821\00\00\a1\91\00\00\831\00\00\c1\91\00\00\841\00\00\e1\91\00\00\851\00\00\01\92\00\00\861\00\00!\92\00\00\871\00\00A\92\00\00\881\00\00a\92\00\00\891\00\00\81\92\00\00\8a1\00\00\a1\92\00\00\8b1\00\00\c1\92\00\00\8c1\00\00\e1\92\00\00\8d1\00\00\01\93\00\00\8e1\00\00!\93\00\00\921\00\00A\93\00\00\931\00\00a\93\00\00\941\00\00\81\93\00\00\951\00\00\a1\93\00\00\961\00\00\c1\93\00\00\971\00\00\e1\93\00\00\981\00\00\01\94\00\00\991\00\00!\94\00\00\9a1\00\00A\94\00\00\9b1\00\00a\94\00\00\9c1\00\00\81\94\00\00\9d1\00\00\a1\94\00\00\9e1\00\00\c1\94\00\00\9f1\00\00\e1\94\00\00\002\00\00\03\95\00\00\012\00\00c\95\00\00\022\00\00\c3\95\00\00\032\00\00#\96\00\00\042\00\00\83\96\00\00\052\00\00\e3\96\00\00\062\00\00C\97\00\00\072\00\00\a3\97\00\00\082\00\00\03\98\00\00\t2\00\00c\98\00\00\n2\00\00\c3\98\00\00\0b2\00\00#\99\00\00\0c2\00\00\83\99\00\00\0d2\00\00\e3\99\00\00\0e2\00\00D\9a\00\00\0f2\00\00\c4\9a\00\00\102\00\00D\9b\00\00\112\00\00\c4\9b\00\00\122\00\00D\9c\00\00\132\00\00\c4\9c\00\00\142\00\00D\9d\00\00\152\00\00\c4\9d\00\00\162\00\00D\9e\00\00\172\00\00\c4\9e\00\00\182\00\00D\9f\00\00\192\00\00\c4\9f\00\00\1a2\00\00D\a0\00\00\1b2\00\00\c4\a0\00\00\1c2\00\00D\a1\00\00\1d2\00\00\c7\a1\00\00\1e2\00\00\a6\a2\00\00 2\00\00c\a3\00\00!2\00\00\c3\a3\00\00\"2\00\00#\a4\00\00#2\00\00\83\a4\00\00$2\00\00\e3\a4\00\00%2\00\00C\a5\00\00&2\00\00\a3\a5\00\00\'2\00\00\03\a6\00\00(2\00\00c\a6\00\00)2\00\00\c3\a6\00\00*2\00\00#\a7\00\00+2\00\00\83\a7\00\00,2\00\00\e3\a7\00\00-2\00\00C\a8\00\00.2\00\00\a3\a8\00\00/2\00\00\03\a9\00\0002\00\00c\a9\00\0012\00\00\c3\a9\00\0022\00\00#\aa\00\0032\00\00\83\aa\00\0042\00\00\e3\aa\00\0052\00\00C\ab\00\0062\00\00\a3\ab\00\0072\00\00\03\ac\00\0082\00\00c\ac\00\0092\00\00\c3\ac\00\00:2\00\00#\ad\00\00;2\00\00\83\ad\00\00<2\00\00\e3\ad\00\00=2\00\00C\ae\00\00>2\00\00\a3\ae\00\00?2\00\00\03\af\00\00@2\00\00c\af\00\00A2\00\00\c3\af\00\00B2\00\00#\b0\00\00C2\00\00\83\b0\00\00D2\00\00\e1\b0\00\00E2\00\00\01\b1\00\00F2\00\00!\b1\00\00G2\00\00A\b1\00\00P2\00\00c\b1\00\00Q2\00\00\c2\b1\00\00R2\00\00\02\b2\00\00S2\00\00B\b2\00\00T2\00\00\82\b2\00\00U2\00\00\c2\b2\00\00V2\00\00\02\b3\00\00W2\00\00B\b3\00\00X2\00\00\82\b3\00\00Y2\00\00\c2\b3\00\00Z2\00\00\02\b4\00\00[2\00\00B\b4\00\00\\2\00\00\82\b4\00\00]2\00\00\c2\b4\00\00^2\00\00\02\b5\00\00_2\00\00B\b5\00\00`2\00\00\81\b5\00\00a2\00\00\a1\b5\00\00b2\00\00\c1\b5\00\00c2\00\00\e1\b5\00\00d2\00\00\01\b6\00\00e2\00\00!\b6\00\00f2\00\00A\b6\00\00g2\00\00a\b6\00\00h2\00\00\81\b6\00\00i2\00\00\a1\b6\00\00j2\00\00\c1\b6\00\00k2\00\00\e1\b6\00\00l2\00\00\01\b7\00\00m2\00\00!\b7\00\00n2\00\00B\b7\00\00o2\00\00\82\b7\00\00p2\00\00\c2\b7\00\00q2\00\00\02\b8\00\00r2\00\00B\b8\00\00s2\00\00\82\b8\00\00t2\00\00\c2\b8\00\00u2\00\00\02\b9\00\00v2\00\00B\b9\00\00w2\00\00\82\b9\00\00x2\00\00\c2\b9\00\00y2\00\00\02\ba\00\00z2\00\00B\ba\00\00{2\00\00\82\ba\00\00|2\00\00\c5\ba\00\00}2\00\00d\bb\00\00~2\00\00\e2\bb\00\00\802\00\00!\bc\00\00\812\00\00A\bc\00\00\822\00\00a\bc\00\00\832\00\00\81\bc\00\00\842\00\00\a1\bc\00\00\852\00\00\c1\bc\00\00\862\00\00\e1\bc\00\00\872\00\00\01\bd\00\00\882\00\00!\bd\00\00\892\00\00A\bd\00\00\8a2\00\00a\bd\00\00\8b2\00\00\81\bd\00\00\8c2\00\00\a1\bd\00\00\8d2\00\00\c1\bd\00\00\8e2\00\00\e1\bd\00\00\8f2\00\00\01\be\00\00\902\00\00!\be\00\00\912\00\00A\be\00\00\922\00\00a\be\00\00\932\00\00\81\be\00\00\942\00\00\a1\be\00\00\952\00\00\c1\be\00\00\962\00\00\e1\be\00\00\972\00\00\01\bf\00\00\982\00\00!\bf\00\00\992\00\00A\bf\00\00\9a2\00\00a\bf\00\00\9b2\00\00\81\bf\00\00\9c2\00\00\a1\bf\00\00\9d2\00\00\c1\bf\00\00\9e2\00\00\e1\bf\00\00\9f2\00\00\01\c0\00\00\a02\00\00!\c0\00\00\a12\00\00A\c0\00\00\a22\00\00a\c0\00\00\a32\00\00\81\c0\00\00\a42\00\00\a1\c0\00\00\a52\00\00\c1\c0\00\00\a62\00\00\e1\c0\00\00\a72\00\00\01\c1\00\00\a82\00\00!\c1\00\00\a92\00\00A\c1\00\00\aa2\00\00a\c1\00\00\ab2\00\00\81\c1\00\00\ac2\00\00\a1\c1\00\00\ad2\00\00\c1\c1\00\00\ae2\00\00\e1\c1\00\00\af2\00\00\01\c2\00\00\b02\00\00!\c2\00\00\b12\00\00B\c2\00\00\b22\00\00\82\c2\00\00\b32\00\00\c2\c2\00\00\b42\00\00\02\c3\00\00\b52\00\00B\c3\00\00\b62\00\00\82\c3\00\00\b72\00\00\c2\c3\00\00\b82\00\00\02\c4\00\00\b92\00\00B\c4\00\00\ba2\00\00\82\c4\00\00\bb2\00\00\c2\c4\00\00\bc2\00\00\02\c5\00\00\bd2\00\00B\c5\00\00\be2\00\00\82\c5\00\00\bf2\00\00\c2\c5\00\00\c02\00\00\02\c6\00\00\c12\00\00B\c6\00\00\c22\00\00\82\c6\00\00\c32\00\00\c2\c6\00\00\c42\00\00\02\c7\00\00\c52\00\00B\c7\00\00\c62\00\00\82\c7\00\00\c72\00\00\c2\c7\00\00\c82\00\00\02\c8\00\00\c92\00\00C\c8\00\00\ca2\00\00\a3\c8\00\00\cb2\00\00\03\c9\00\00\cc2\00\00b\c9\00\00\cd2\00\00\a3\c9\00\00\ce2\00\00\02\ca\00\00\cf2\00\00C\ca\00\00\d02\00\00\a1\ca\00\00\d12\00\00\c1\ca\00\00\d22\00\00\e1\ca\00\00\d32\00\00\01\cb\00\00\d42\00\00!\cb\00\00\d52\00\00A\cb\00\00\d62\00\00a\cb\00\00\d72\00\00\81\cb\00\00\d82\00\00\a1\cb\00\00\d92\00\00\c1\cb\00\00\da2\00\00\e1\cb\00\00\db2\00\00\01\cc\00\00\dc2\00\00!\cc\00\00\dd2\00\00A\cc\00\00\de2\00\00a\cc\00\00\df2\00\00\81\cc\00\00\e02\00\00\a1\cc\00\00\e12\00\00\c1\cc\00\00\e22\00\00\e1\cc\00\00\e32\00\00\01\cd\00\00\e42\00\00!\cd\00\00\e52\00\00A\cd\00\00\e62\00\00a\cd\00\00\e72\00\00\81\cd\00\00\e82\00\00\a1\cd\00\00\e92\00\00\c1\cd\00\00\ea2\00\00\e1\cd\00\00\eb2\00\00\01\ce\00\00\ec2\00\00!\ce\00\00\ed2\00\00A\ce\00\00\ee2\00\00a\ce\00\00\ef2\00\00\81\ce\00\00\f02\00\00\a1\ce\00\00\f12\00\00\c1\ce\00\00\f22\00\00\e1\ce\00\00\f32\00\00\01\cf\00\00\f42\00\00!\cf\00\00\f52\00\00A\cf\00\00\f62\00\00a\cf\00\00\f72\00\00\81\cf\00\00\f82\00\00\a1\cf\00\00\f92\00\00\c1\cf\00\00\fa2\00\00\e1\cf\00\00\fb2\00\00\01\d0\00\00\fc2\00\00!\d0\00\00\fd2\00\00A\d0\00\00\fe2\00\00a\d0\00\00\ff2\00\00\82\d0\00\00\003\00\00\c5\d0\00\00\013\00\00d\d1\00\00\023\00\00\e5\d1\00\00\033\00\00\83\d2\00\00\043\00\00\e5\d2\00\00\053\00\00\83\d3\00\00\063\00\00\e3\d3\00\00\073\00\00F\d4\00\00\083\00\00\04\d5\00\00\t3\00\00\83\d5\00\00\n3\00\00\e3\d5\00\00\0b3\00\00C\d6\00\00\0c3\00\00\a4\d6\00\00\0d3\00\00$\d7\00\00\0e3\00\00\a4\d7\00\00\0f3\00\00$\d8\00\00\103\00\00\a4\d8\00\00\113\00\00$\d9\00\00\123\00\00\a4\d9\00\00\133\00\00&\da\00\00\143\00\00\e2\da\00\00\153\00\00&\db\00\00\163\00\00\e6\db\00\00\173\00\00\a5\dc\00\00\183\00\00D\dd\00\00\193\00\00\c6\dd\00\00\1a3\00\00\86\de\00\00\1b3\00\00D\df\00\00\1c3\00\00\c3\df\00\00\1d3\00\00#\e0\00\00\1e3\00\00\84\e0\00\00\1f3\00\00\04\e1\00\00 3\00\00\85\e1\00\00!3\00\00%\e2\00\00\"3\00\00\c3\e2\00\00#3\00\00#\e3\00\00$3\00\00\84\e3\00\00%3\00\00\03\e4\00\00&3\00\00c\e4\00\00\'3\00\00\c2\e4\00\00(3\00\00\02\e5\00\00)3\00\00C\e5\00\00*3\00\00\a3\e5\00\00+3\00\00\06\e6\00\00,3\00\00\c4\e6\00\00-3\00\00E\e7\00\00.3\00\00\e6\e7\00\00/3\00\00\a4\e8\00\0003\00\00#\e9\00\0013\00\00\83\e9\00\0023\00\00\e6\e9\00\0033\00\00\a4\ea\00\0043\00\00&\eb\00\0053\00\00\e3\eb\00\0063\00\00E\ec\00\0073\00\00\e3\ec\00\0083\00\00D\ed\00\0093\00\00\c3\ed\00\00:3\00\00$\ee\00\00;3\00\00\a5\ee\00\00<3\00\00D\ef\00\00=3\00\00\c5\ef\00\00>3\00\00d\f0\00\00?3\00\00\e2\f0\00\00@3\00\00%\f1\00\00A3\00\00\c3\f1\00\00B3\00\00#\f2\00\00C3\00\00\84\f2\00\00D3\00\00\03\f3\00\00E3\00\00c\f3\00\00F3\00\00\c3\f3\00\00G3\00\00%\f4\00\00H3\00\00\c4\f4\00\00I3\00\00B\f5\00\00J3\00\00\86\f5\00\00K3\00\00C\f6\00\00L3\00\00\a5\f6\00\00M3\00\00D\f7\00\00N3\00\00\c4\f7\00\00O3\00\00C\f8\00\00P3\00\00\a3\f8\00\00Q3\00\00\04\f9\00\00R3\00\00\82\f9\00\00S3\00\00\c4\f9\00\00T3\00\00E\fa\00\00U3\00\00\e2\fa\00\00V3\00\00&\fb\00\00W3\00\00\e3\fb\00\00X3\00\00B\fc\00\00Y3\00\00\82\fc\00\00Z3\00\00\c2\fc\00\00[3\00\00\02\fd\00\00\\3\00\00B\fd\00\00]3\00\00\82\fd\00\00^3\00\00\c2\fd\00\00_3\00\00\02\fe\00\00`3\00\00B\fe\00\00a3\00\00\82\fe\00\00b3\00\00\c3\fe\00\00c3\00\00#\ff\00\00d3\00\00\83\ff\00\00e3\00\00\e3\ff\00\00f3\00\00C\00\01\00g3\00\00\a3\00\01\00h3\00\00\03\01\01\00i3\00\00c\01\01\00j3\00\00\c3\01\01\00k3\00\00#\02\01\00l3\00\00\83\02\01\00m3\00\00\e3\02\01\00n3\00\00C\03\01\00o3\00\00\a3\03\01\00p3\00\00\03\04\01\00q3\00\00c\04\01\00r3\00\00\c2\04\01\00s3\00\00\02\05\01\00t3\00\00C\05\01\00u3\00\00\a2\05\01\00v3\00\00\e2\05\01\00w3\00\00\"\06\01\00x3\00\00c\06\01\00y3\00\00\c3\06\01\00z3\00\00\"\07\01\00{3\00\00b\07\01\00|3\00\00\a2\07\01\00}3\00\00\e2\07\01\00~3\00\00\"\08\01\00\7f3\00\00d\08\01\00\803\00\00\e2\08\01\00\813\00\00\"\t\01\00\823\00\00b\t\01\00\833\00\00\a2\t\01\00\843\00\00\e2\t\01\00\853\00\00\"\n\01\00\863\00\00b\n\01\00\873\00\00\a2\n\01\00\883\00\00\e3\n\01\00\893\00\00D\0b\01\00\8a3\00\00\c2\0b\01\00\8b3\00\00\02\0c\01\00\8c3\00\00B\0c\01\00\8d3\00\00\82\0c\01\00\8e3\00\00\c2\0c\01\00\8f3\00\00\02\0d\01\00\903\00\00B\0d\01\00\913\00\00\83\0d\01\00\923\00\00\e3\0d\01\00\933\00\00C\0e\01\00\943\00\00\a3\0e\01\00\953\00\00\02\0f\01\00\963\00\00B\0f\01\00\973\00\00\82\0f\01\00\983\00\00\c2\0f\01\00\993\00\00\02\10\01\00\9a3\00\00B\10\01\00\9b3\00\00\82\10\01\00\9c3\00\00\c2\10\01\00\9d3\00\00\02\11\01\00\9e3\00\00B\11\01\00\9f3\00\00\83\11\01\00\a03\00\00\e3\11\01\00\a13\00\00B\12\01\00\a23\00\00\83\12\01\00\a33\00\00\e3\12\01\00\a43\00\00C\13\01\00\a53\00\00\a2\13\01\00\a63\00\00\e3\13\01\00\a73\00\00C\14\01\00\a83\00\00\a4\14\01\00\a93\00\00\"\15\01\00\aa3\00\00c\15\01\00\ab3\00\00\c3\15\01\00\ac3\00\00#\16\01\00\ad3\00\00\83\16\01\00\ae3\00\00\e5\16\01\00\af3\00\00\86\17\01\00\b03\00\00B\18\01\00\b13\00\00\82\18\01\00\b23\00\00\c2\18\01\00\b33\00\00\02\19\01\00\b43\00\00B\19\01\00\b53\00\00\82\19\01\00\b63\00\00\c2\19\01\00\b73\00\00\02\1a\01\00\b83\00\00B\1a\01\00\b93\00\00\82\1a\01\00\ba3\00\00\c2\1a\01\00\bb3\00\00\02\1b\01\00\bc3\00\00B\1b\01\00\bd3\00\00\82\1b\01\00\be3\00\00\c2\1b\01\00\bf3\00\00\02\1c\01\00\c03\00\00B\1c\01\00\c13\00\00\82\1c\01\00\c23\00\00\c4\1c\01\00\c33\00\00B\1d\01\00\c43\00\00\82\1d\01\00\c53\00\00\c2\1d\01\00\c63\00\00\04\1e\01\00\c73\00\00\83\1e\01\00\c83\00\00\e2\1e\01\00\c93\00\00\"\1f\01\00\ca3\00\00b\1f\01\00\cb3\00\00\a2\1f\01\00\cc3\00\00\e2\1f\01\00\cd3\00\00\" \01\00\ce3\00\00b \01\00\cf3\00\00\a2 \01\00\d03\00\00\e2 \01\00\d13\00\00\"!\01\00\d23\00\00c!\01\00\d33\00\00\c2!\01\00\d43\00\00\02\"\01\00\d53\00\00C\"\01\00\d63\00\00\a3\"\01\00\d73\00\00\02#\01\00\d83\00\00D#\01\00\d93\00\00\c3#\01\00\da3\00\00\"$\01\00\db3\00\00b$\01\00\dc3\00\00\a2$\01\00\dd3\00\00\e2$\01\00\de3\00\00#%\01\00\df3\00\00\83%\01\00\e03\00\00\e2%\01\00\e13\00\00\"&\01\00\e23\00\00b&\01\00\e33\00\00\a2&\01\00\e43\00\00\e2&\01\00\e53\00\00\"\'\01\00\e63\00\00b\'\01\00\e73\00\00\a2\'\01\00\e83\00\00\e2\'\01\00\e93\00\00#(\01\00\ea3\00\00\83(\01\00\eb3\00\00\e3(\01\00\ec3\00\00C)\01\00\ed3\00\00\a3)\01\00\ee3\00\00\03*\01\00\ef3\00\00c*\01\00\f03\00\00\c3*\01\00\f13\00\00#+\01\00\f23\00\00\83+\01\00\f33\00\00\e3+\01\00\f43\00\00C,\01\00\f53\00\00\a3,\01\00\f63\00\00\03-\01\00\f73\00\00c-\01\00\f83\00\00\c3-\01\00\f93\00\00#.\01\00\fa3\00\00\83.\01\00\fb3\00\00\e3.\01\00\fc3\00\00C/\01\00\fd3\00\00\a3/\01\00\fe3\00\00\030\01\00\ff3\00\00c0\01\00\9c\a6\00\00\c10\01\00\9d\a6\00\00\e10\01\00p\a7\00\00\011\01\00\f2\a7\00\00!1\01\00\f3\a7\00\00A1\01\00\f4\a7\00\00a1\01\00\f8\a7\00\00\811\01\00\f9\a7\00\00\a11\01\00\\\ab\00\00\c11\01\00]\ab\00\00\e11\01\00^\ab\00\00\012\01\00_\ab\00\00!2\01\00i\ab\00\00A2\01\00\00\fb\00\00b2\01\00\01\fb\00\00\a22\01\00\02\fb\00\00\e22\01\00\03\fb\00\00#3\01\00\04\fb\00\00\833\01\00\05\fb\00\00\e23\01\00\06\fb\00\00\"4\01\00\13\fb\00\00b4\01\00\14\fb\00\00\a24\01\00\15\fb\00\00\e24\01\00\16\fb\00\00\"5\01\00\17\fb\00\00b5\01\00 \fb\00\00\a15\01\00!\fb\00\00\c15\01\00\"\fb\00\00\e15\01\00#\fb\00\00\016\01\00$\fb\00\00!6\01\00%\fb\00\00A6\01\00&\fb\00\00a6\01\00\'\fb\00\00\816\01\00(\fb\00\00\a16\01\00)\fb\00\00\c16\01\00O\fb\00\00\e26\01\00P\fb\00\00!7\01\00Q\fb\00\00A7\01\00R\fb\00\00a7\01\00S\fb\00\00\817\01\00T\fb\00\00\a17\01\00U\fb\00\00\c17\01\00V\fb\00\00\e17\01\00W\fb\00\00\018\01\00X\fb\00\00!8\01\00Y\fb\00\00A8\01\00Z\fb\00\00a8\01\00[\fb\00\00\818\01\00\\\fb\00\00\a18\01\00]\fb\00\00\c18\01\00^\fb\00\00\e18\01\00_\fb\00\00\019\01\00`\fb\00\00!9\01\00a\fb\00\00A9\01\00b\fb\00\00a9\01\00c\fb\00\00\819\01\00d\fb\00\00\a19\01\00e\fb\00\00\c19\01\00f\fb\00\00\e19\01\00g\fb\00\00\01:\01\00h\fb\00\00!:\01\00i\fb\00\00A:\01\00j\fb\00\00a:\01\00k\fb\00\00\81:\01\00l\fb\00\00\a1:\01\00m\fb\00\00\c1:\01\00n\fb\00\00\e1:\01\00o\fb\00\00\01;\01\00p\fb\00\00!;\01\00q\fb\00\00A;\01\00r\fb\00\00a;\01\00s\fb\00\00\81;\01\00t\fb\00\00\a1;\01\00u\fb\00\00\c1;\01\00v\fb\00\00\e1;\01\00w\fb\00\00\01<\01\00x\fb\00\00!<\01\00y\fb\00\00A<\01\00z\fb\00\00a<\01\00{\fb\00\00\81<\01\00|\fb\00\00\a1<\01\00}\fb\00\00\c1<\01\00~\fb\00\00\e1<\01\00\7f\fb\00\00\01=\01\00\80\fb\00\00!=\01\00\81\fb\00\00A=\01\00\82\fb\00\00a=\01\00\83\fb\00\00\81=\01\00\84\fb\00\00\a1=\01\00\85\fb\00\00\c1=\01\00\86\fb\00\00\e1=\01\00\87\fb\00\00\01>\01\00\88\fb\00\00!>\01\00\89\fb\00\00A>\01\00\8a\fb\00\00a>\01\00\8b\fb\00\00\81>\01\00\8c\fb\00\00\a1>\01\00\8d\fb\00\00\c1>\01\00\8e\fb\00\00\e1>\01\00\8f\fb\00\00\01?\01\00\90\fb\00\00!?\01\00\91\fb\00\00A?\01\00\92\fb\00\00a?\01\00\93\fb\00\00\81?\01\00\94\fb\00\00\a1?\01\00\95\fb\00\00\c1?\01\00\96\fb\00\00\e1?\01\00\97\fb\00\00\01@\01\00\98\fb\00\00!@\01\00\99\fb\00\00A@\01\00\9a\fb\00\00a@\01\00\9b\fb\00\00\81@\01\00\9c\fb\00\00\a1@\01\00\9d\fb\00\00\c1@\01\00\9e\fb\00\00\e1@\01\00\9f\fb\00\00\01A\01\00\a0\fb\00\00!A\01\00\a1\fb\00\00AA\01\00\a2\fb\00\00aA\01\00\a3\fb\00\00\81A\01\00\a4\fb\00\00\a2A\01\00\a5\fb\00\00\e2A\01\00\a6\fb\00\00!B\01\00\a7\fb\00\00AB\01\00\a8\fb\00\00aB\01\00\a9\fb\00\00\81B\01\00\aa\fb\00\00\a1B\01\00\ab\fb\00\00\c1B\01\00\ac\fb\00\00\e1B\01\00\ad\fb\00\00\01C\01\00\ae\fb\00\00!C\01\00\af\fb\00\00AC\01\00\b0\fb\00\00bC\01\00\b1\fb\00\00\a2C\01\00\d3\fb\00\00\e1C\01\00\d4\fb\00\00\01D\01\00\d5\fb\00\00!D\01\00\d6\fb\00\00AD\01\00\d7\fb\00\00aD\01\00\d8\fb\00\00\81D\01\00\d9\fb\00\00\a1D\01\00\da\fb\00\00\c1D\01\00\db\fb\00\00\e1D\01\00\dc\fb\00\00\01E\01\00\dd\fb\00\00\"E\01\00\de\fb\00\00aE\01\00\df\fb\00\00\81E\01\00\e0\fb\00\00\a1E\01\00\e1\fb\00\00\c1E\01\00\e2\fb\00\00\e1E\01\00\e3\fb\00\00\01F\01\00\e4\fb\00\00!F\01\00\e5\fb\00\00AF\01\00\e6\fb\00\00aF\01\00\e7\fb\00\00\81F\01\00\e8\fb\00\00\a1F\01\00\e9\fb\00\00\c1F\01\00\ea\fb\00\00\e3F\01\00\eb\fb\00\00CG\01\00\ec\fb\00\00\a3G\01\00\ed\fb\00\00\03H\01\00\ee\fb\00\00cH\01\00\ef\fb\00\00\c3H\01\00\f0\fb\00\00#I\01\00\f1\fb\00\00\83I\01\00\f2\fb\00\00\e3I\01\00\f3\fb\00\00CJ\01\00\f4\fb\00\00\a3J\01\00\f5\fb\00\00\03K\01\00\f6\fb\00\00cK\01\00\f7\fb\00\00\c3K\01\00\f8\fb\00\00#L\01\00\f9\fb\00\00\83L\01\00\fa\fb\00\00\e3L\01\00\fb\fb\00\00CM\01\00\fc\fb\00\00\a1M\01\00\fd\fb\00\00\c1M\01\00\fe\fb\00\00\e1M\01\00\ff\fb\00\00\01N\01\00\00\fc\00\00#N\01\00\01\fc\00\00\83N\01\00\02\fc\00\00\e3N\01\00\03\fc\00\00CO\01\00\04\fc\00\00\a3O\01\00\05\fc\00\00\02P\01\00\06\fc\00\00BP\01\00\07\fc\00\00\82P\01\00\08\fc\00\00\c2P\01\00\t\fc\00\00\02Q\01\00\n\fc\00\00BQ\01\00\0b\fc\00\00\82Q\01\00\0c\fc\00\00\c2Q\01\00\0d\fc\00\00\02R\01\00\0e\fc\00\00BR\01\00\0f\fc\00\00\82R\01\00\10\fc\00\00\c2R\01\00\11\fc\00\00\02S\01\00\12\fc\00\00BS\01\00\13\fc\00\00\82S\01\00\14\fc\00\00\c2S\01\00\15\fc\00\00\02T\01\00\16\fc\00\00BT\01\00\17\fc\00\00\82T\01\00\18\fc\00\00\c2T\01\00\19\fc\00\00\02U\01\00\1a\fc\00\00BU\01\00\1b\fc\00\00\82U\01\00\1c\fc\00\00\c2U\01\00\1d\fc\00\00\02V\01\00\1e\fc\00\00BV\01\00\1f\fc\00\00\82V\01\00 \fc\00\00\c2V\01\00!\fc\00\00\02W\01\00\"\fc\00\00BW\01\00#\fc\00\00\82W\01\00$\fc\00\00\c2W\01\00%\fc\00\00\02X\01\00&\fc\00\00BX\01\00\'\fc\00\00\82X\01\00(\fc\00\00\c2X\01\00)\fc\00\00\02Y\01\00*\fc\00\00BY\01\00+\fc\00\00\82Y\01\00,\fc\00\00\c2Y\01\00-\fc\00\00\02Z\01\00.\fc\00\00BZ\01\00/\fc\00\00\82Z\01\000\fc\00\00\c2Z\01\001\fc\00\00\02[\01\002\fc\00\00B[\01\003\fc\00\00\82[\01\004\fc\00\00\c2[\01\005\fc\00\00\02\\\01\006\fc\00\00B\\\01\007\fc\00\00\82\\\01\008\fc\00\00\c2\\\01\009\fc\00\00\02]\01\00:\fc\00\00B]\01\00;\fc\00\00\82]\01\00<\fc\00\00\c2]\01\00=\fc\00\00\02^\01\00>\fc\00\00B^\01\00?\fc\00\00\82^\01\00@\fc\00\00\c2^\01\00A\fc\00\00\02_\01\00B\fc\00\00B_\01\00C\fc\00\00\82_\01\00D\fc\00\00\c2_\01\00E\fc\00\00\02`\01\00F\fc\00\00B`\01\00G\fc\00\00\82`\01\00H\fc\00\00\c2`\01\00I\fc\00\00\02a\01\00J\fc\00\00Ba\01\00K\fc\00\00\82a\01\00L\fc\00\00\c2a\01\00M\fc\00\00\02b\01\00N\fc\00\00Bb\01\00O\fc\00\00\82b\01\00P\fc\00\00\c2b\01\00Q\fc\00\00\02c\01\00R\fc\00\00Bc\01\00S\fc\00\00\82c\01\00T\fc\00\00\c2c\01\00U\fc\00\00\02d\01\00V\fc\00\00Bd\01\00W\fc\00\00\82d\01\00X\fc\00\00\c2d\01\00Y\fc\00\00\02e\01\00Z\fc\00\00Be\01\00[\fc\00\00\82e\01\00\\\fc\00\00\c2e\01\00]\fc\00\00\02f\01\00^\fc\00\00Cf\01\00_\fc\00\00\a3f\01\00`\fc\00\00\03g\01\00a\fc\00\00cg\01\00b\fc\00\00\c3g\01\00c\fc\00\00#h\01\00d\fc\00\00\83h\01\00e\fc\00\00\e3h\01\00f\fc\00\00Ci\01\00g\fc\00\00\a3i\01\00h\fc\00\00\03j\01\00i\fc\00\00cj\01\00j\fc\00\00\c2j\01\00k\fc\00\00\02k\01\00l\fc\00\00Bk\01\00m\fc\00\00\82k\01\00n\fc\00\00\c2k\01\00o\fc\00\00\02l\01\00p\fc\00\00Bl\01\00q\fc\00\00\82l\01\00r\fc\00\00\c2l\01\00s\fc\00\00\02m\01\00t\fc\00\00Bm\01\00u\fc\00\00\82m\01\00v\fc\00\00\c2m\01\00w\fc\00\00\02n\01\00x\fc\00\00Bn\01\00y\fc\00\00\82n\01\00z\fc\00\00\c2n\01\00{\fc\00\00\02o\01\00|\fc\00\00Bo\01\00}\fc\00\00\82o\01\00~\fc\00\00\c2o\01\00\7f\fc\00\00\02p\01\00\80\fc\00\00Bp\01\00\81\fc\00\00\82p\01\00\82\fc\00\00\c2p\01\00\83\fc\00\00\02q\01\00\84\fc\00\00Bq\01\00\85\fc\00\00\82q\01\00\86\fc\00\00\c2q\01\00\87\fc\00\00\02r\01\00\88\fc\00\00Br\01\00\89\fc\00\00\82r\01\00\8a\fc\00\00\c2r\01\00\8b\fc\00\00\02s\01\00\8c\fc\00\00Bs\01\00\8d\fc\00\00\82s\01\00\8e\fc\00\00\c2s\01\00\8f\fc\00\00\02t\01\00\90\fc\00\00Bt\01\00\91\fc\00\00\82t\01\00\92\fc\00\00\c2t\01\00\93\fc\00\00\02u\01\00\94\fc\00\00Bu\01\00\95\fc\00\00\82u\01\00\96\fc\00\00\c2u\01\00\97\fc\00\00\03v\01\00\98\fc\00\00cv\01\00\99\fc\00\00\c3v\01\00\9a\fc\00\00#w\01\00\9b\fc\00\00\83w\01\00\9c\fc\00\00\e2w\01\00\9d\fc\00\00\"x\01\00\9e\fc\00\00bx\01\00\9f\fc\00\00\a2x\01\00\a0\fc\00\00\e2x\01\00\a1\fc\00\00\"y\01\00\a2\fc\00\00by\01\00\a3\fc\00\00\a2y\01\00\a4\fc\00\00\e2y\01\00\a5\fc\00\00\"z\01\00\a6\fc\00\00bz\01\00\a7\fc\00\00\a2z\01\00\a8\fc\00\00\e2z\01\00\a9\fc\00\00\"{\01\00\aa\fc\00\00b{\01\00\ab\fc\00\00\a2{\01\00\ac\fc\00\00\e2{\01\00\ad\fc\00\00\"|\01\00\ae\fc\00\00b|\01\00\af\fc\00\00\a2|\01\00\b0\fc\00\00\e2|\01\00\b1\fc\00\00\"}\01\00\b2\fc\00\00b}\01\00\b3\fc\00\00\a2}\01\00\b4\fc\00\00\e2}\01\00\b5\fc\00\00\"~\01\00\b6\fc\00\00b~\01\00\b7\fc\00\00\a2~\01\00\b8\fc\00\00\e2~\01\00\b9\fc\00\00\"\7f\01\00\ba\fc\00\00b\7f\01\00\bb\fc\00\00\a2\7f\01\00\bc\fc\00\00\e2\7f\01\00\bd\fc\00\00\"\80\01\00\be\fc\00\00b\80\01\00\bf\fc\00\00\a2\80\01\00\c0\fc\00\00\e2\80\01\00\c1\fc\00\00\"\81\01\00\c2\fc\00\00b\81\01\00\c3\fc\00\00\a2\81\01\00\c4\fc\00\00\e2\81\01\00\c5\fc\00\00\"\82\01\00\c6\fc\00\00b\82\01\00\c7\fc\00\00\a2\82\01\00\c8\fc\00\00\e2\82\01\00\c9\fc\00\00\"\83\01\00\ca\fc\00\00b\83\01\00\cb\fc\00\00\a2\83\01\00\cc\fc\00\00\e2\83\01\00\cd\fc\00\00\"\84\01\00\ce\fc\00\00b\84\01\00\cf\fc\00\00\a2\84\01\00\d0\fc\00\00\e2\84\01\00\d1\fc\00\00\"\85\01\00\d2\fc\00\00b\85\01\00\d3\fc\00\00\a2\85\01\00\d4\fc\00\00\e2\85\01\00\d5\fc\00\00\"\86\01\00\d6\fc\00\00b\86\01\00\d7\fc\00\00\a2\86\01\00\d8\fc\00\00\e2\86\01\00\d9\fc\00\00\"\87\01\00\da\fc\00\00b\87\01\00\db\fc\00\00\a2\87\01\00\dc\fc\00\00\e2\87\01\00\dd\fc\00\00\"\88\01\00\de\fc\00\00b\88\01\00\df\fc\00\00\a3\88\01\00\e0\fc\00\00\03\89\01\00\e1\fc\00\00b\89\01\00\e2\fc\00\00\a2\89\01\00\e3\fc\00\00\e2\89\01\00\e4\fc\00\00\"\8a\01\00\e5\fc\00\00b\8a\01\00\e6\fc\00\00\a2\8a\01\00\e7\fc\00\00\e2\8a\01\00\e8\fc\00\00\"\8b\01\00\e9\fc\00\00b\8b\01\00\ea\fc\00\00\a2\8b\01\00\eb\fc\00\00\e2\8b\01\00\ec\fc\00\00\"\8c\01\00\ed\fc\00\00b\8c\01\00\ee\fc\00\00\a2\8c\01\00\ef\fc\00\00\e2\8c\01\00\f0\fc\00\00\"\8d\01\00\f1\fc\00\00b\8d\01\00\f2\fc\00\00\a3\8d\01\00\f3\fc\00\00\03\8e\01\00\f4\fc\00\00c\8e\01\00\f5\fc\00\00\c2\8e\01\00\f6\fc\00\00\02\8f\01\00\f7\fc\00\00B\8f\01\00\f8\fc\00\00\82\8f\01\00\f9\fc\00\00\c2\8f\01\00\fa\fc\00\00\02\90\01\00\fb\fc\00\00B\90\01\00\fc\fc\00\00\82\90\01\00\fd\fc\00\00\c2\90\01\00\fe\fc\00\00\02\91\01\00\ff\fc\00\00B\91\01\00\00\fd\00\00\82\91\01\00\01\fd\00\00\c2\91\01\00\02\fd\00\00\02\92\01\00\03\fd\00\00B\92\01\00\04\fd\00\00\82\92\01\00\05\fd\00\00\c2\92\01\00\06\fd\00\00\02\93\01\00\07\fd\00\00B\93\01\00\08\fd\00\00\82\93\01\00\t\fd\00\00\c2\93\01\00\n\fd\00\00\02\94\01\00\0b\fd\00\00B\94\01\00\0c\fd\00\00\82\94\01\00\0d\fd\00\00\c2\94\01\00\0e\fd\00\00\02\95\01\00\0f\fd\00\00B\95\01\00\10\fd\00\00\82\95\01\00\11\fd\00\00\c2\95\01\00\12\fd\00\00\02\96\01\00\13\fd\00\00B\96\01\00\14\fd\00\00\82\96\01\00\15\fd\00\00\c2\96\01\00\16\fd\00\00\02\97\01\00\17\fd\00\00B\97\01\00\18\fd\00\00\82\97\01\00\19\fd\00\00\c2\97\01\00\1a\fd\00\00\02\98\01\00\1b\fd\00\00B\98\01\00\1c\fd\00\00\82\98\01\00\1d\fd\00\00\c2\98\01\00\1e\fd\00\00\02\99\01\00\1f\fd\00\00B\99\01\00 \fd\00\00\82\99\01\00!\fd\00\00\c2\99\01\00\"\fd\00\00\02\9a\01\00#\fd\00\00B\9a\01\00$\fd\00\00\82\9a\01\00%\fd\00\00\c2\9a\01\00&\fd\00\00\02\9b\01\00\'\fd\00\00B\9b\01\00(\fd\00\00\82\9b\01\00)\fd\00\00\c2\9b\01\00*\fd\00\00\02\9c\01\00+\fd\00\00B\9c\01\00,\fd\00\00\82\9c\01\00-\fd\00\00\c2\9c\01\00.\fd\00\00\02\9d\01\00/\fd\00\00B\9d\01\000\fd\00\00\82\9d\01\001\fd\00\00\c2\9d\01\002\fd\00\00\02\9e\01\003\fd\00\00B\9e\01\004\fd\00\00\82\9e\01\005\fd\00\00\c2\9e\01\006\fd\00\00\02\9f\01\007\fd\00\00B\9f\01\008\fd\00\00\82\9f\01\009\fd\00\00\c2\9f\01\00:\fd\00\00\02\a0\01\00;\fd\00\00B\a0\01\00<\fd\00\00\82\a0\01\00=\fd\00\00\c2\a0\01\00P\fd\00\00\03\a1\01\00Q\fd\00\00c\a1\01\00R\fd\00\00\c3\a1\01\00S\fd\00\00#\a2\01\00T\fd\00\00\83\a2\01\00U\fd\00\00\e3\a2\01\00V\fd\00\00C\a3\01\00W\fd\00\00\a3\a3\01\00X\fd\00\00\03\a4\01\00Y\fd\00\00c\a4\01\00Z\fd\00\00\c3\a4\01\00[\fd\00\00#\a5\01\00\\\fd\00\00\83\a5\01\00]\fd\00\00\e3\a5\01\00^\fd\00\00C\a6\01\00_\fd\00\00\a3\a6\01\00`\fd\00\00\03\a7\01\00a\fd\00\00c\a7\01\00b\fd\00\00\c3\a7\01\00c\fd\00\00#\a8\01\00d\fd\00\00\83\a8\01\00e\fd\00\00\e3\a8\01\00f\fd\00\00C\a9\01\00g\fd\00\00\a3\a9\01\00h\fd\00\00\03\aa\01\00i\fd\00\00c\aa\01\00j\fd\00\00\c3\aa\01\00k\fd\00\00#\ab\01\00l\fd\00\00\83\ab\01\00m\fd\00\00\e3\ab\01\00n\fd\00\00C\ac\01\00o\fd\00\00\a3\ac\01\00p\fd\00\00\03\ad\01\00q\fd\00\00c\ad\01\00r\fd\00\00\c3\ad\01\00s\fd\00\00#\ae\01\00t\fd\00\00\83\ae\01\00u\fd\00\00\e3\ae\01\00v\fd\00\00C\af\01\00w\fd\00\00\a3\af\01\00x\fd\00\00\03\b0\01\00y\fd\00\00c\b0\01\00z\fd\00\00\c3\b0\01\00{\fd\00\00#\b1\01\00|\fd\00\00\83\b1\01\00}\fd\00\00\e3\b1\01\00~\fd\00\00C\b2\01\00\7f\fd\00\00\a3\b2\01\00\80\fd\00\00\03\b3\01\00\81\fd\00\00c\b3\01\00\82\fd\00\00\c3\b3\01\00\83\fd\00\00#\b4\01\00\84\fd\00\00\83\b4\01\00\85\fd\00\00\e3\b4\01\00\86\fd\00\00C\b5\01\00\87\fd\00\00\a3\b5\01\00\88\fd\00\00\03\b6\01\00\89\fd\00\00c\b6\01\00\8a\fd\00\00\c3\b6\01\00\8b\fd\00\00#\b7\01\00\8c\fd\00\00\83\b7\01\00\8d\fd\00\00\e3\b7\01\00\8e\fd\00\00C\b8\01\00\8f\fd\00\00\a3\b8\01\00\92\fd\00\00\03\b9\01\00\93\fd\00\00c\b9\01\00\94\fd\00\00\c3\b9\01\00\95\fd\00\00#\ba\01\00\96\fd\00\00\83\ba\01\00\97\fd\00\00\e3\ba\01\00\98\fd\00\00C\bb\01\00\99\fd\00\00\a3\bb\01\00\9a\fd\00\00\03\bc\01\00\9b\fd\00\00c\bc\01\00\9c\fd\00\00\c3\bc\01\00\9d\fd\00\00#\bd\01\00\9e\fd\00\00\83\bd\01\00\9f\fd\00\00\e3\bd\01\00\a0\fd\00\00C\be\01\00\a1\fd\00\00\a3\be\01\00\a2\fd\00\00\03\bf\01\00\a3\fd\00\00c\bf\01\00\a4\fd\00\00\c3\bf\01\00\a5\fd\00\00#\c0\01\00\a6\fd\00\00\83\c0\01\00\a7\fd\00\00\e3\c0\01\00\a8\fd\00\00C\c1\01\00\a9\fd\00\00\a3\c1\01\00\aa\fd\00\00\03\c2\01\00\ab\fd\00\00c\c2\01\00\ac\fd\00\00\c3\c2\01\00\ad\fd\00\00#\c3\01\00\ae\fd\00\00\83\c3\01\00\af\fd\00\00\e3\c3\01\00\b0\fd\00\00C\c4\01\00\b1\fd\00\00\a3\c4\01\00\b2\fd\00\00\03\c5\01\00\b3\fd\00\00c\c5\01\00\b4\fd\00\00\c3\c5\01\00\b5\fd\00\00#\c6\01\00\b6\fd\00\00\83\c6\01\00\b7\fd\00\00\e3\c6\01\00\b8\fd\00\00C\c7\01\00\b9\fd\00\00\a3\c7\01\00\ba\fd\00\00\03\c8\01\00\bb\fd\00\00c\c8\01\00\bc\fd\00\00\c3\c8\01\00\bd\fd\00\00#\c9\01\00\be\fd\00\00\83\c9\01\00\bf\fd\00\00\e3\c9\01\00\c0\fd\00\00C\ca\01\00\c1\fd\00\00\a3\ca\01\00\c2\fd\00\00\03\cb\01\00\c3\fd\00\00c\cb\01\00\c4\fd\00\00\c3\cb\01\00\c5\fd\00\00#\cc\01\00\c6\fd\00\00\83\cc\01\00\c7\fd\00\00\e3\cc\01\00\f0\fd\00\00C\cd\01\00\f1\fd\00\00\a3\cd\01\00\f2\fd\00\00\04\ce\01\00\f3\fd\00\00\84\ce\01\00\f4\fd\00\00\04\cf\01\00\f5\fd\00\00\84\cf\01\00\f6\fd\00\00\04\d0\01\00\f7\fd\00\00\84\d0\01\00\f8\fd\00\00\04\d1\01\00\f9\fd\00\00\83\d1\01\00\fa\fd\00\00\f2\d1\01\00\fb\fd\00\00(\d4\01\00\fc\fd\00\00$\d5\01\00\10\fe\00\00\a1\d5\01\00\11\fe\00\00\c1\d5\01\00\12\fe\00\00\e1\d5\01\00\13\fe\00\00\01\d6\01\00\14\fe\00\00!\d6\01\00\15\fe\00\00A\d6\01\00\16\fe\00\00a\d6\01\00\17\fe\00\00\81\d6\01\00\18\fe\00\00\a1\d6\01\00\19\fe\00\00\c3\d6\01\000\fe\00\00\"\d7\01\001\fe\00\00a\d7\01\002\fe\00\00\81\d7\01\003\fe\00\00\a1\d7\01\004\fe\00\00\c1\d7\01\005\fe\00\00\e1\d7\01\006\fe\00\00\01\d8\01\007\fe\00\00!\d8\01\008\fe\00\00A\d8\01\009\fe\00\00a\d8\01\00:\fe\00\00\81\d8\01\00;\fe\00\00\a1\d8\01\00<\fe\00\00\c1\d8\01\00=\fe\00\00\e1\d8\01\00>\fe\00\00\01\d9\01\00?\fe\00\00!\d9\01\00@\fe\00\00A\d9\01\00A\fe\00\00a\d9\01\00B\fe\00\00\81\d9\01\00C\fe\00\00\a1\d9\01\00D\fe\00\00\c1\d9\01\00G\fe\00\00\e1\d9\01\00H\fe\00\00\01\da\01\00I\fe\00\00\"\da\01\00J\fe\00\00b\da\01\00K\fe\00\00\a2\da\01\00L\fe\00\00\e2\da\01\00M\fe\00\00!\db\01\00N\fe\00\00A\db\01\00O\fe\00\00a\db\01\00P\fe\00\00\81\db\01\00Q\fe\00\00\a1\db\01\00R\fe\00\00\c1\db\01\00T\fe\00\00\e1\db\01\00U\fe\00\00\01\dc\01\00V\fe\00\00!\dc\01\00W\fe\00\00A\dc\01\00X\fe\00\00a\dc\01\00Y\fe\00\00\81\dc\01\00Z\fe\00\00\a1\dc\01\00[\fe\00\00\c1\dc\01\00\\\fe\00\00\e1\dc\01\00]\fe\00\00\01\dd\01\00^\fe\00\00!\dd\01\00_\fe\00\00A\dd\01\00`\fe\00\00a\dd\01\00a\fe\00\00\81\dd\01\00b\fe\00\00\a1\dd\01\00c\fe\00\00\c1\dd\01\00d\fe\00\00\e1\dd\01\00e\fe\00\00\01\de\01\00f\fe\00\00!\de\01\00h\fe\00\00A\de\01\00i\fe\00\00a\de\01\00j\fe\00\00\81\de\01\00k\fe\00\00\a1\de\01\00p\fe\00\00\c2\de\01\00q\fe\00\00\02\df\01\00r\fe\00\00B\df\01\00t\fe\00\00\82\df\01\00v\fe\00\00\c2\df\01\00w\fe\00\00\02\e0\01\00x\fe\00\00B\e0\01\00y\fe\00\00\82\e0\01\00z\fe\00\00\c2\e0\01\00{\fe\00\00\02\e1\01\00|\fe\00\00B\e1\01\00}\fe\00\00\82\e1\01\00~\fe\00\00\c2\e1\01\00\7f\fe\00\00\02\e2\01\00\80\fe\00\00A\e2\01\00\81\fe\00\00b\e2\01\00\82\fe\00\00\a2\e2\01\00\83\fe\00\00\e2\e2\01\00\84\fe\00\00\"\e3\01\00\85\fe\00\00b\e3\01\00\86\fe\00\00\a2\e3\01\00\87\fe\00\00\e2\e3\01\00\88\fe\00\00\"\e4\01\00\89\fe\00\00b\e4\01\00\8a\fe\00\00\a2\e4\01\00\8b\fe\00\00\e2\e4\01\00\8c\fe\00\00\"\e5\01\00\8d\fe\00\00a\e5\01\00\8e\fe\00\00\81\e5\01\00\8f\fe\00\00\a1\e5\01\00\90\fe\00\00\c1\e5\01\00\91\fe\00\00\e1\e5\01\00\92\fe\00\00\01\e6\01\00\93\fe\00\00!\e6\01\00\94\fe\00\00A\e6\01\00\95\fe\00\00a\e6\01\00\96\fe\00\00\81\e6\01\00\97\fe\00\00\a1\e6\01\00\98\fe\00\00\c1\e6\01\00\99\fe\00\00\e1\e6\01\00\9a\fe\00\00\01\e7\01\00\9b\fe\00\00!\e7\01\00\9c\fe\00\00A\e7\01\00\9d\fe\00\00a\e7\01\00\9e\fe\00\00\81\e7\01\00\9f\fe\00\00\a1\e7\01\00\a0\fe\00\00\c1\e7\01\00\a1\fe\00\00\e1\e7\01\00\a2\fe\00\00\01\e8\01\00\a3\fe\00\00!\e8\01\00\a4\fe\00\00A\e8\01\00\a5\fe\00\00a\e8\01\00\a6\fe\00\00\81\e8\01\00\a7\fe\00\00\a1\e8\01\00\a8\fe\00\00\c1\e8\01\00\a9\fe\00\00\e1\e8\01\00\aa\fe\00\00\01\e9\01\00\ab\fe\00\00!\e9\01\00\ac\fe\00\00A\e9\01\00\ad\fe\00\00a\e9\01\00\ae\fe\00\00\81\e9\01\00\af\fe\00\00\a1\e9\01\00\b0\fe\00\00\c1\e9\01\00\b1\fe\00\00\e1\e9\01\00\b2\fe\00\00\01\ea\01\00\b3\fe\00\00!\ea\01\00\b4\fe\00\00A\ea\01\00\b5\fe\00\00a\ea\01\00\b6\fe\00\00\81\ea\01\00\b7\fe\00\00\a1\ea\01\00\b8\fe\00\00\c1\ea\01\00\b9\fe\00\00\e1\ea\01\00\ba\fe\00\00\01\eb\01\00\bb\fe\00\00!\eb\01\00\bc\fe\00\00A\eb\01\00\bd\fe\00\00a\eb\01\00\be\fe\00\00\81\eb\01\00\bf\fe\00\00\a1\eb\01\00\c0\fe\00\00\c1\eb\01\00\c1\fe\00\00\e1\eb\01\00\c2\fe\00\00\01\ec\01\00\c3\fe\00\00!\ec\01\00\c4\fe\00\00A\ec\01\00\c5\fe\00\00a\ec\01\00\c6\fe\00\00\81\ec\01\00\c7\fe\00\00\a1\ec\01\00\c8\fe\00\00\c1\ec\01\00\c9\fe\00\00\e1\ec\01\00\ca\fe\00\00\01\ed\01\00\cb\fe\00\00!\ed\01\00\cc\fe\00\00A\ed\01\00\cd\fe\00\00a\ed\01\00\ce\fe\00\00\81\ed\01\00\cf\fe\00\00\a1\ed\01\00\d0\fe\00\00\c1\ed\01\00\d1\fe\00\00\e1\ed\01\00\d2\fe\00\00\01\ee\01\00\d3\fe\00\00!\ee\01\00\d4\fe\00\00A\ee\01\00\d5\fe\00\00a\ee\01\00\d6\fe\00\00\81\ee\01\00\d7\fe\00\00\a1\ee\01\00\d8\fe\00\00\c1\ee\01\00\d9\fe\00\00\e1\ee\01\00\da\fe\00\00\01\ef\01\00\db\fe\00\00!\ef\01\00\dc\fe\00\00A\ef\01\00\dd\fe\00\00a\ef\01\00\de\fe\00\00\81\ef\01\00\df\fe\00\00\a1\ef\01\00\e0\fe\00\00\c1\ef\01\00\e1\fe\00\00\e1\ef\01\00\e2\fe\00\00\01\f0\01\00\e3\fe\00\00!\f0\01\00\e4\fe\00\00A\f0\01\00\e5\fe\00\00a\f0\01\00\e6\fe\00\00\81\f0\01\00\e7\fe\00\00\a1\f0\01\00\e8\fe\00\00\c1\f0\01\00\e9\fe\00\00\e1\f0\01\00\ea\fe\00\00\01\f1\01\00\eb\fe\00\00!\f1\01\00\ec\fe\00\00A\f1\01\00\ed\fe\00\00a\f1\01\00\ee\fe\00\00\81\f1\01\00\ef\fe\00\00\a1\f1\01\00\f0\fe\00\00\c1\f1\01\00\f1\fe\00\00\e1\f1\01\00\f2\fe\00\00\01\f2\01\00\f3\fe\00\00!\f2\01\00\f4\fe\00\00A\f2\01\00\f5\fe\00\00c\f2\01\00\f6\fe\00\00\c3\f2\01\00\f7\fe\00\00#\f3\01\00\f8\fe\00\00\83\f3\01\00\f9\fe\00\00\e3\f3\01\00\fa\fe\00\00C\f4\01\00\fb\fe\00\00\a2\f4\01\00\fc\fe\00\00\e2\f4\01\00\01\ff\00\00!\f5\01\00\02\ff\00\00A\f5\01\00\03\ff\00\00a\f5\01\00\04\ff\00\00\81\f5\01\00\05\ff\00\00\a1\f5\01\00\06\ff\00\00\c1\f5\01\00\07\ff\00\00\e1\f5\01\00\08\ff\00\00\01\f6\01\00\t\ff\00\00!\f6\01\00\n\ff\00\00A\f6\01\00\0b\ff\00\00a\f6\01\00\0c\ff\00\00\81\f6\01\00\0d\ff\00\00\a1\f6\01\00\0e\ff\00\00\c1\f6\01\00\0f\ff\00\00\e1\f6\01\00\10\ff\00\00\01\f7\01\00\11\ff\00\00!\f7\01\00\12\ff\00\00A\f7\01\00\13\ff\00\00a\f7\01\00\14\ff\00\00\81\f7\01\00\15\ff\00\00\a1\f7\01\00\16\ff\00\00\c1\f7\01\00\17\ff\00\00\e1\f7\01\00\18\ff\00\00\01\f8\01\00\19\ff\00\00!\f8\01\00\1a\ff\00\00A\f8\01\00\1b\ff\00\00a\f8\01\00\1c\ff\00\00\81\f8\01\00\1d\ff\00\00\a1\f8\01\00\1e\ff\00\00\c1\f8\01\00\1f\ff\00\00\e1\f8\01\00 \ff\00\00\01\f9\01\00!\ff\00\00!\f9\01\00\"\ff\00\00A\f9\01\00#\ff\00\00a\f9\01\00$\ff\00\00\81\f9\01\00%\ff\00\00\a1\f9\01\00&\ff\00\00\c1\f9\01\00\'\ff\00\00\e1\f9\01\00(\ff\00\00\01\fa\01\00)\ff\00\00!\fa\01\00*\ff\00\00A\fa\01\00+\ff\00\00a\fa\01\00,\ff\00\00\81\fa\01\00-\ff\00\00\a1\fa\01\00.\ff\00\00\c1\fa\01\00/\ff\00\00\e1\fa\01\000\ff\00\00\01\fb\01\001\ff\00\00!\fb\01\002\ff\00\00A\fb\01\003\ff\00\00a\fb\01\004\ff\00\00\81\fb\01\005\ff\00\00\a1\fb\01\006\ff\00\00\c1\fb\01\007\ff\00\00\e1\fb\01\008\ff\00\00\01\fc\01\009\ff\00\00!\fc\01\00:\ff\00\00A\fc\01\00;\ff\00\00a\fc\01\00<\ff\00\00\81\fc\01\00=\ff\00\00\a1\fc\01\00>\ff\00\00\c1\fc\01\00?\ff\00\00\e1\fc\01\00@\ff\00\00\01\fd\01\00A\ff\00\00!\fd\01\00B\ff\00\00A\fd\01\00C\ff\00\00a\fd\01\00D\ff\00\00\81\fd\01\00E\ff\00\00\a1\fd\01\00F\ff\00\00\c1\fd\01\00G\ff\00\00\e1\fd\01\00H\ff\00\00\01\fe\01\00I\ff\00\00!\fe\01\00J\ff\00\00A\fe\01\00K\ff\00\00a\fe\01\00L\ff\00\00\81\fe\01\00M\ff\00\00\a1\fe\01\00N\ff\00\00\c1\fe\01\00O\ff\00\00\e1\fe\01\00P\ff\00\00\01\ff\01\00Q\ff\00\00!\ff\01\00R\ff\00\00A\ff\01\00S\ff\00\00a\ff\01\00T\ff\00\00\81\ff\01\00U\ff\00\00\a1\ff\01\00V\ff\00\00\c1\ff\01\00W\ff\00\00\e1\ff\01\00X\ff\00\00\01\00\02\00Y\ff\00\00!\00\02\00Z\ff\00\00A\00\02\00[\ff\00\00a\00\02\00\\\ff\00\00\81\00\02\00]\ff\00\00\a1\00\02\00^\ff\00\00\c1\00\02\00_\ff\00\00\e1\00\02\00`\ff\00\00\01\01\02\00a\ff\00\00!\01\02\00b\ff\00\00A\01\02\00c\ff\00\00a\01\02\00d\ff\00\00\81\01\02\00e\ff\00\00\a1\01\02\00f\ff\00\00\c1\01\02\00g\ff\00\00\e1\01\02\00h\ff\00\00\01\02\02\00i\ff\00\00!\02\02\00j\ff\00\00A\02\02\00k\ff\00\00a\02\02\00l\ff\00\00\81\02\02\00m\ff\00\00\a1\02\02\00n\ff\00\00\c1\02\02\00o\ff\00\00\e1\02\02\00p\ff\00\00\01\03\02\00q\ff\00\00!\03\02\00r\ff\00\00A\03\02\00s\ff\00\00a\03\02\00t\ff\00\00\81\03\02\00u\ff\00\00\a1\03\02\00v\ff\00\00\c1\03\02\00w\ff\00\00\e1\03\02\00x\ff\00\00\01\04\02\00y\ff\00\00!\04\02\00z\ff\00\00A\04\02\00{\ff\00\00a\04\02\00|\ff\00\00\81\04\02\00}\ff\00\00\a1\04\02\00~\ff\00\00\c1\04\02\00\7f\ff\00\00\e1\04\02\00\80\ff\00\00\01\05\02\00\81\ff\00\00!\05\02\00\82\ff\00\00A\05\02\00\83\ff\00\00a\05\02\00\84\ff\00\00\81\05\02\00\85\ff\00\00\a1\05\02\00\86\ff\00\00\c1\05\02\00\87\ff\00\00\e1\05\02\00\88\ff\00\00\01\06\02\00\89\ff\00\00!\06\02\00\8a\ff\00\00A\06\02\00\8b\ff\00\00a\06\02\00\8c\ff\00\00\81\06\02\00\8d\ff\00\00\a1\06\02\00\8e\ff\00\00\c1\06\02\00\8f\ff\00\00\e1\06\02\00\90\ff\00\00\01\07\02\00\91\ff\00\00!\07\02\00\92\ff\00\00A\07\02\00\93\ff\00\00a\07\02\00\94\ff\00\00\81\07\02\00\95\ff\00\00\a1\07\02\00\96\ff\00\00\c1\07\02\00\97\ff\00\00\e1\07\02\00\98\ff\00\00\01\08\02\00\99\ff\00\00!\08\02\00\9a\ff\00\00A\08\02\00\9b\ff\00\00a\08\02\00\9c\ff\00\00\81\08\02\00\9d\ff\00\00\a1\08\02\00\9e\ff\00\00\c1\08\02\00\9f\ff\00\00\e1\08\02\00\a0\ff\00\00\01\t\02\00\a1\ff\00\00!\t\02\00\a2\ff\00\00A\t\02\00\a3\ff\00\00a\t\02\00\a4\ff\00\00\81\t\02\00\a5\ff\00\00\a1\t\02\00\a6\ff\00\00\c1\t\02\00\a7\ff\00\00\e1\t\02\00\a8\ff\00\00\01\n\02\00\a9\ff\00\00!\n\02\00\aa\ff\00\00A\n\02\00\ab\ff\00\00a\n\02\00\ac\ff\00\00\81\n\02\00\ad\ff\00\00\a1\n\02\00\ae\ff\00\00\c1\n\02\00\af\ff\00\00\e1\n\02\00\b0\ff\00\00\01\0b\02\00\b1\ff\00\00!\0b\02\00\b2\ff\00\00A\0b\02\00\b3\ff\00\00a\0b\02\00\b4\ff\00\00\81\0b\02\00\b5\ff\00\00\a1\0b\02\00\b6\ff\00\00\c1\0b\02\00\b7\ff\00\00\e1\0b\02\00\b8\ff\00\00\01\0c\02\00\b9\ff\00\00!\0c\02\00\ba\ff\00\00A\0c\02\00\bb\ff\00\00a\0c\02\00\bc\ff\00\00\81\0c\02\00\bd\ff\00\00\a1\0c\02\00\be\ff\00\00\c1\0c\02\00\c2\ff\00\00\e1\0c\02\00\c3\ff\00\00\01\0d\02\00\c4\ff\00\00!\0d\02\00\c5\ff\00\00A\0d\02\00\c6\ff\00\00a\0d\02\00\c7\ff\00\00\81\0d\02\00\ca\ff\00\00\a1\0d\02\00\cb\ff\00\00\c1\0d\02\00\cc\ff\00\00\e1\0d\02\00\cd\ff\00\00\01\0e\02\00\ce\ff\00\00!\0e\02\00\cf\ff\00\00A\0e\02\00\d2\ff\00\00a\0e\02\00\d3\ff\00\00\81\0e\02\00\d4\ff\00\00\a1\0e\02\00\d5\ff\00\00\c1\0e\02\00\d6\ff\00\00\e1\0e\02\00\d7\ff\00\00\01\0f\02\00\da\ff\00\00!\0f\02\00\db\ff\00\00A\0f\02\00\dc\ff\00\00a\0f\02\00\e0\ff\00\00\81\0f\02\00\e1\ff\00\00\a1\0f\02\00\e2\ff\00\00\c1\0f\02\00\e3\ff\00\00\e2\0f\02\00\e4\ff\00\00!\10\02\00\e5\ff\00\00A\10\02\00\e6\ff\00\00a\10\02\00\e8\ff\00\00\81\10\02\00\e9\ff\00\00\a1\10\02\00\ea\ff\00\00\c1\10\02\00\eb\ff\00\00\e1\10\02\00\ec\ff\00\00\01\11\02\00\ed\ff\00\00!\11\02\00\ee\ff\00\00A\11\02\00\81\07\01\00a\11\02\00\82\07\01\00\81\11\02\00\83\07\01\00\a1\11\02\00\84\07\01\00\c1\11\02\00\85\07\01\00\e1\11\02\00\87\07\01\00\01\12\02\00\88\07\01\00!\12\02\00\89\07\01\00A\12\02\00\8a\07\01\00a\12\02\00\8b\07\01\00\81\12\02\00\8c\07\01\00\a1\12\02\00\8d\07\01\00\c1\12\02\00\8e\07\01\00\e1\12\02\00\8f\07\01\00\01\13\02\00\90\07\01\00!\13\02\00\91\07\01\00A\13\02\00\92\07\01\00a\13\02\00\93\07\01\00\81\13\02\00\94\07\01\00\a1\13\02\00\95\07\01\00\c1\13\02\00\96\07\01\00\e1\13\02\00\97\07\01\00\01\14\02\00\98\07\01\00!\14\02\00\99\07\01\00A\14\02\00\9a\07\01\00a\14\02\00\9b\07\01\00\81\14\02\00\9c\07\01\00\a2\14\02\00\9d\07\01\00\e1\14\02\00\9e\07\01\00\01\15\02\00\9f\07\01\00\"\15\02\00\a0\07\01\00a\15\02\00\a1\07\01\00\82\15\02\00\a2\07\01\00\c1\15\02\00\a3\07\01\00\e1\15\02\00\a4\07\01\00\01\16\02\00\a5\07\01\00!\16\02\00\a6\07\01\00A\16\02\00\a7\07\01\00b\16\02\00\a8\07\01\00\a1\16\02\00\a9\07\01\00\c1\16\02\00\aa\07\01\00\e1\16\02\00\ab\07\01\00\01\17\02\00\ac\07\01\00!\17\02\00\ad\07\01\00A\17\02\00\ae\07\01\00a\17\02\00\af\07\01\00\81\17\02\00\b0\07\01\00\a1\17\02\00\b2\07\01\00\c1\17\02\00\b3\07\01\00\e1\17\02\00\b4\07\01\00\01\18\02\00\b5\07\01\00!\18\02\00\b6\07\01\00A\18\02\00\b7\07\01\00a\18\02\00\b8\07\01\00\81\18\02\00\b9\07\01\00\a2\18\02\00\ba\07\01\00\e2\18\02\00\d6\cc\01\00!\19\02\00\d7\cc\01\00A\19\02\00\d8\cc\01\00a\19\02\00\d9\cc\01\00\81\19\02\00\da\cc\01\00\a1\19\02\00\db\cc\01\00\c1\19\02\00\dc\cc\01\00\e1\19\02\00\dd\cc\01\00\01\1a\02\00\de\cc\01\00!\1a\02\00\df\cc\01\00A\1a\02\00\e0\cc\01\00a\1a\02\00\e1\cc\01\00\81\1a\02\00\e2\cc\01\00\a1\1a\02\00\e3\cc\01\00\c1\1a\02\00\e4\cc\01\00\e1\1a\02\00\e5\cc\01\00\01\1b\02\00\e6\cc\01\00!\1b\02\00\e7\cc\01\00A\1b\02\00\e8\cc\01\00a\1b\02\00\e9\cc\01\00\81\1b\02\00\ea\cc\01\00\a1\1b\02\00\eb\cc\01\00\c1\1b\02\00\ec\cc\01\00\e1\1b\02\00\ed\cc\01\00\01\1c\02\00\ee\cc\01\00!\1c\02\00\ef\cc\01\00A\1c\02\00\f0\cc\01\00a\1c\02\00\f1\cc\01\00\81\1c\02\00\f2\cc\01\00\a1\1c\02\00\f3\cc\01\00\c1\1c\02\00\f4\cc\01\00\e1\1c\02\00\f5\cc\01\00\01\1d\02\00\f6\cc\01\00!\1d\02\00\f7\cc\01\00A\1d\02\00\f8\cc\01\00a\1d\02\00\f9\cc\01\00\81\1d\02\00\00\d4\01\00\a1\1d\02\00\01\d4\01\00\c1\1d\02\00\02\d4\01\00\e1\1d\02\00\03\d4\01\00\01\1e\02\00\04\d4\01\00!\1e\02\00\05\d4\01\00A\1e\02\00\06\d4\01\00a\1e\02\00\07\d4\01\00\81\1e\02\00\08\d4\01\00\a1\1e\02\00\t\d4\01\00\c1\1e\02\00\n\d4\01\00\e1\1e\02\00\0b\d4\01\00\01\1f\02\00\0c\d4\01\00!\1f\02\00\0d\d4\01\00A\1f\02\00\0e\d4\01\00a\1f\02\00\0f\d4\01\00\81\1f\02\00\10\d4\01\00\a1\1f\02\00\11\d4\01\00\c1\1f\02\00\12\d4\01\00\e1\1f\02\00\13\d4\01\00\01 \02\00\14\d4\01\00! \02\00\15\d4\01\00A \02\00\16\d4\01\00a \02\00\17\d4\01\00\81 \02\00\18\d4\01\00\a1 \02\00\19\d4\01\00\c1 \02\00\1a\d4\01\00\e1 \02\00\1b\d4\01\00\01!\02\00\1c\d4\01\00!!\02\00\1d\d4\01\00A!\02\00\1e\d4\01\00a!\02\00\1f\d4\01\00\81!\02\00 \d4\01\00\a1!\02\00!\d4\01\00\c1!\02\00\"\d4\01\00\e1!\02\00#\d4\01\00\01\"\02\00$\d4\01\00!\"\02\00%\d4\01\00A\"\02\00&\d4\01\00a\"\02\00\'\d4\01\00\81\"\02\00(\d4\01\00\a1\"\02\00)\d4\01\00\c1\"\02\00*\d4\01\00\e1\"\02\00+\d4\01\00\01#\02\00,\d4\01\00!#\02\00-\d4\01\00A#\02\00.\d4\01\00a#\02\00/\d4\01\00\81#\02\000\d4\01\00\a1#\02\001\d4\01\00\c1#\02\002\d4\01\00\e1#\02\003\d4\01\00\01$\02\004\d4\01\00!$\02\005\d4\01\00A$\02\006\d4\01\00a$\02\007\d4\01\00\81$\02\008\d4\01\00\a1$\02\009\d4\01\00\c1$\02\00:\d4\01\00\e1$\02\00;\d4\01\00\01%\02\00<\d4\01\00!%\02\00=\d4\01\00A%\02\00>\d4\01\00a%\02\00?\d4\01\00\81%\02\00@\d4\01\00\a1%\02\00A\d4\01\00\c1%\02\00B\d4\01\00\e1%\02\00C\d4\01\00\01&\02\00D\d4\01\00!&\02\00E\d4\01\00A&\02\00F\d4\01\00a&\02\00G\d4\01\00\81&\02\00H\d4\01\00\a1&\02\00I\d4\01\00\c1&\02\00J\d4\01\00\e1&\02\00K\d4\01\00\01\'\02\00L\d4\01\00!\'\02\00M\d4\01\00A\'\02\00N\d4\01\00a\'\02\00O\d4\01\00\81\'\02\00P\d4\01\00\a1\'\02\00Q\d4\01\00\c1\'\02\00R\d4\01\00\e1\'\02\00S\d4\01\00\01(\02\00T\d4\01\00!(\02\00V\d4\01\00A(\02\00W\d4\01\00a(\02\00X\d4\01\00\81(\02\00Y\d4\01\00\a1(\02\00Z\d4\01\00\c1(\02\00[\d4\01\00\e1(\02\00\\\d4\01\00\01)\02\00]\d4\01\00!)\02\00^\d4\01\00A)\02\00_\d4\01\00a)\02\00`\d4\01\00\81)\02\00a\d4\01\00\a1)\02\00b\d4\01\00\c1)\02\00c\d4\01\00\e1)\02\00d\d4\01\00\01*\02\00e\d4\01\00!*\02\00f\d4\01\00A*\02\00g\d4\01\00a*\02\00h\d4\01\00\81*\02\00i\d4\01\00\a1*\02\00j\d4\01\00\c1*\02\00k\d4\01\00\e1*\02\00l\d4\01\00\01+\02\00m\d4\01\00!+\02\00n\d4\01\00A+\02\00o\d4\01\00a+\02\00p\d4\01\00\81+\02\00q\d4\01\00\a1+\02\00r\d4\01\00\c1+\02\00s\d4\01\00\e1+\02\00t\d4\01\00\01,\02\00u\d4\01\00!,\02\00v\d4\01\00A,\02\00w\d4\01\00a,\02\00x\d4\01\00\81,\02\00y\d4\01\00\a1,\02\00z\d4\01\00\c1,\02\00{\d4\01\00\e1,\02\00|\d4\01\00\01-\02\00}\d4\01\00!-\02\00~\d4\01\00A-\02\00\7f\d4\01\00a-\02\00\80\d4\01\00\81-\02\00\81\d4\01\00\a1-\02\00\82\d4\01\00\c1-\02\00\83\d4\01\00\e1-\02\00\84\d4\01\00\01.\02\00\85\d4\01\00!.\02\00\86\d4\01\00A.\02\00\87\d4\01\00a.\02\00\88\d4\01\00\81.\02\00\89\d4\01\00\a1.\02\00\8a\d4\01\00\c1.\02\00\8b\d4\01\00\e1.\02\00\8c\d4\01\00\01/\02\00\8d\d4\01\00!/\02\00\8e\d4\01\00A/\02\00\8f\d4\01\00a/\02\00\90\d4\01\00\81/\02\00\91\d4\01\00\a1/\02\00\92\d4\01\00\c1/\02\00\93\d4\01\00\e1/\02\00\94\d4\01\00\010\02\00\95\d4\01\00!0\02\00\96\d4\01\00A0\02\00\97\d4\01\00a0\02\00\98\d4\01\00\810\02\00\99\d4\01\00\a10\02\00\9a\d4\01\00\c10\02\00\9b\d4\01\00\e10\02\00\9c\d4\01\00\011\02\00\9e\d4\01\00!1\02\00\9f\d4\01\00A1\02\00\a2\d4\01\00a1\02\00\a5\d4\01\00\811\02\00\a6\d4\01\00\a11\02\00\a9\d4\01\00\c11\02\00\aa\d4\01\00\e11\02\00\ab\d4\01\00\012\02\00\ac\d4\01\00!2\02\00\ae\d4\01\00A2\02\00\af\d4\01\00a2\02\00\b0\d4\01\00\812\02\00\b1\d4\01\00\a12\02\00\b2\d4\01\00\c12\02\00\b3\d4\01\00\e12\02\00\b4\d4\01\00\013\02\00\b5\d4\01\00!3\02\00\b6\d4\01\00A3\02\00\b7\d4\01\00a3\02\00\b8\d4\01\00\813\02\00\b9\d4\01\00\a13\02\00\bb\d4\01\00\c13\02\00\bd\d4\01\00\e13\02\00\be\d4\01\00\014\02\00\bf\d4\01\00!4\02\00\c0\d4\01\00A4\02\00\c1\d4\01\00a4\02\00\c2\d4\01\00\814\02\00\c3\d4\01\00\a14\02\00\c5\d4\01\00\c14\02\00\c6\d4\01\00\e14\02\00\c7\d4\01\00\015\02\00\c8\d4\01\00!5\02\00\c9\d4\01\00A5\02\00\ca\d4\01\00a5\02\00\cb\d4\01\00\815\02\00\cc\d4\01\00\a15\02\00\cd\d4\01\00\c15\02\00\ce\d4\01\00\e15\02\00\cf\d4\01\00\016\02\00\d0\d4\01\00!6\02\00\d1\d4\01\00A6\02\00\d2\d4\01\00a6\02\00\d3\d4\01\00\816\02\00\d4\d4\01\00\a16\02\00\d5\d4\01\00\c16\02\00\d6\d4\01\00\e16\02\00\d7\d4\01\00\017\02\00\d8\d4\01\00!7\02\00\d9\d4\01\00A7\02\00\da\d4\01\00a7\02\00\db\d4\01\00\817\02\00\dc\d4\01\00\a17\02\00\dd\d4\01\00\c17\02\00\de\d4\01\00\e17\02\00\df\d4\01\00\018\02\00\e0\d4\01\00!8\02\00\e1\d4\01\00A8\02\00\e2\d4\01\00a8\02\00\e3\d4\01\00\818\02\00\e4\d4\01\00\a18\02\00\e5\d4\01\00\c18\02\00\e6\d4\01\00\e18\02\00\e7\d4\01\00\019\02\00\e8\d4\01\00!9\02\00\e9\d4\01\00A9\02\00\ea\d4\01\00a9\02\00\eb\d4\01\00\819\02\00\ec\d4\01\00\a19\02\00\ed\d4\01\00\c19\02\00\ee\d4\01\00\e19\02\00\ef\d4\01\00\01:\02\00\f0\d4\01\00!:\02\00\f1\d4\01\00A:\02\00\f2\d4\01\00a:\02\00\f3\d4\01\00\81:\02\00\f4\d4\01\00\a1:\02\00\f5\d4\01\00\c1:\02\00\f6\d4\01\00\e1:\02\00\f7\d4\01\00\01;\02\00\f8\d4\01\00!;\02\00\f9\d4\01\00A;\02\00\fa\d4\01\00a;\02\00\fb\d4\01\00\81;\02\00\fc\d4\01\00\a1;\02\00\fd\d4\01\00\c1;\02\00\fe\d4\01\00\e1;\02\00\ff\d4\01\00\01<\02\00\00\d5\01\00!<\02\00\01\d5\01\00A<\02\00\02\d5\01\00a<\02\00\03\d5\01\00\81<\02\00\04\d5\01\00\a1<\02\00\05\d5\01\00\c1<\02\00\07\d5\01\00\e1<\02\00\08\d5\01\00\01=\02\00\t\d5\01\00!=\02\00\n\d5\01\00A=\02\00\0d\d5\01\00a=\02\00\0e\d5\01\00\81=\02\00\0f\d5\01\00\a1=\02\00\10\d5\01\00\c1=\02\00\11\d5\01\00\e1=\02\00\12\d5\01\00\01>\02\00\13\d5\01\00!>\02\00\14\d5\01\00A>\02\00\16\d5\01\00a>\02\00\17\d5\01\00\81>\02\00\18\d5\01\00\a1>\02\00\19\d5\01\00\c1>\02\00\1a\d5\01\00\e1>\02\00\1b\d5\01\00\01?\02\00\1c\d5\01\00!?\02\00\1e\d5\01\00A?\02\00\1f\d5\01\00a?\02\00 \d5\01\00\81?\02\00!\d5\01\00\a1?\02\00\"\d5\01\00\c1?\02\00#\d5\01\00\e1?\02\00$\d5\01\00\01@\02\00%\d5\01\00!@\02\00&\d5\01\00A@\02\00\'\d5\01\00a@\02\00(\d5\01\00\81@\02\00)\d5\01\00\a1@\02\00*\d5\01\00\c1@\02\00+\d5\01\00\e1@\02\00,\d5\01\00\01A\02\00-\d5\01\00!A\02\00.\d5\01\00AA\02\00/\d5\01\00aA\02\000\d5\01\00\81A\02\001\d5\01\00\a1A\02\002\d5\01\00\c1A\02\003\d5\01\00\e1A\02\004\d5\01\00\01B\02\005\d5\01\00!B\02\006\d5\01\00AB\02\007\d5\01\00aB\02\008\d5\01\00\81B\02\009\d5\01\00\a1B\02\00;\d5\01\00\c1B\02\00<\d5\01\00\e1B\02\00=\d5\01\00\01C\02\00>\d5\01\00!C\02\00@\d5\01\00AC\02\00A\d5\01\00aC\02\00B\d5\01\00\81C\02\00C\d5\01\00\a1C\02\00D\d5\01\00\c1C\02\00F\d5\01\00\e1C\02\00J\d5\01\00\01D\02\00K\d5\01\00!D\02\00L\d5\01\00AD\02\00M\d5\01\00aD\02\00N\d5\01\00\81D\02\00O\d5\01\00\a1D\02\00P\d5\01\00\c1D\02\00R\d5\01\00\e1D\02\00S\d5\01\00\01E\02\00T\d5\01\00!E\02\00U\d5\01\00AE\02\00V\d5\01\00aE\02\00W\d5\01\00\81E\02\00X\d5\01\00\a1E\02\00Y\d5\01\00\c1E\02\00Z\d5\01\00\e1E\02\00[\d5\01\00\01F\02\00\\\d5\01\00!F\02\00]\d5\01\00AF\02\00^\d5\01\00aF\02\00_\d5\01\00\81F\02\00`\d5\01\00\a1F\02\00a\d5\01\00\c1F\02\00b\d5\01\00\e1F\02\00c\d5\01\00\01G\02\00d\d5\01\00!G\02\00e\d5\01\00AG\02\00f\d5\01\00aG\02\00g\d5\01\00\81G\02\00h\d5\01\00\a1G\02\00i\d5\01\00\c1G\02\00j\d5\01\00\e1G\02\00k\d5\01\00\01H\02\00l\d5\01\00!H\02\00m\d5\01\00AH\02\00n\d5\01\00aH\02\00o\d5\01\00\81H\02\00p\d5\01\00\a1H\02\00q\d5\01\00\c1H\02\00r\d5\01\00\e1H\02\00s\d5\01\00\01I\02\00t\d5\01\00!I\02\00u\d5\01\00AI\02\00v\d5\01\00aI\02\00w\d5\01\00\81I\02\00x\d5\01\00\a1I\02\00y\d5\01\00\c1I\02\00z\d5\01\00\e1I\02\00{\d5\01\00\01J\02\00|\d5\01\00!J\02\00}\d5\01\00AJ\02\00~\d5\01\00aJ\02\00\7f\d5\01\00\81J\02\00\80\d5\01\00\a1J\02\00\81\d5\01\00\c1J\02\00\82\d5\01\00\e1J\02\00\83\d5\01\00\01K\02\00\84\d5\01\00!K\02\00\85\d5\01\00AK\02\00\86\d5\01\00aK\02\00\87\d5\01\00\81K\02\00\88\d5\01\00\a1K\02\00\89\d5\01\00\c1K\02\00\8a\d5\01\00\e1K\02\00\8b\d5\01\00\01L\02\00\8c\d5\01\00!L\02\00\8d\d5\01\00AL\02\00\8e\d5\01\00aL\02\00\8f\d5\01\00\81L\02\00\90\d5\01\00\a1L\02\00\91\d5\01\00\c1L\02\00\92\d5\01\00\e1L\02\00\93\d5\01\00\01M\02\00\94\d5\01\00!M\02\00\95\d5\01\00AM\02\00\96\d5\01\00aM\02\00\97\d5\01\00\81M\02\00\98\d5\01\00\a1M\02\00\99\d5\01\00\c1M\02\00\9a\d5\01\00\e1M\02\00\9b\d5\01\00\01N\02\00\9c\d5\01\00!N\02\00\9d\d5\01\00AN\02\00\9e\d5\01\00aN\02\00\9f\d5\01\00\81N\02\00\a0\d5\01\00\a1N\02\00\a1\d5\01\00\c1N\02\00\a2\d5\01\00\e1N\02\00\a3\d5\01\00\01O\02\00\a4\d5\01\00!O\02\00\a5\d5\01\00AO\02\00\a6\d5\01\00aO\02\00\a7\d5\01\00\81O\02\00\a8\d5\01\00\a1O\02\00\a9\d5\01\00\c1O\02\00\aa\d5\01\00\e1O\02\00\ab\d5\01\00\01P\02\00\ac\d5\01\00!P\02\00\ad\d5\01\00AP\02\00\ae\d5\01\00aP\02\00\af\d5\01\00\81P\02\00\b0\d5\01\00\a1P\02\00\b1\d5\01\00\c1P\02\00\b2\d5\01\00\e1P\02\00\b3\d5\01\00\01Q\02\00\b4\d5\01\00!Q\02\00\b5\d5\01\00AQ\02\00\b6\d5\01\00aQ\02\00\b7\d5\01\00\81Q\02\00\b8\d5\01\00\a1Q\02\00\b9\d5\01\00\c1Q\02\00\ba\d5\01\00\e1Q\02\00\bb\d5\01\00\01R\02\00\bc\d5\01\00!R\02\00\bd\d5\01\00AR\02\00\be\d5\01\00aR\02\00\bf\d5\01\00\81R\02\00\c0\d5\01\00\a1R\02\00\c1\d5\01\00\c1R\02\00\c2\d5\01\00\e1R\02\00\c3\d5\01\00\01S\02\00\c4\d5\01\00!S\02\00\c5\d5\01\00AS\02\00\c6\d5\01\00aS\02\00\c7\d5\01\00\81S\02\00\c8\d5\01\00\a1S\02\00\c9\d5\01\00\c1S\02\00\ca\d5\01\00\e1S\02\00\cb\d5\01\00\01T\02\00\cc\d5\01\00!T\02\00\cd\d5\01\00AT\02\00\ce\d5\01\00aT\02\00\cf\d5\01\00\81T\02\00\d0\d5\01\00\a1T\02\00\d1\d5\01\00\c1T\02\00\d2\d5\01\00\e1T\02\00\d3\d5\01\00\01U\02\00\d4\d5\01\00!U\02\00\d5\d5\01\00AU\02\00\d6\d5\01\00aU\02\00\d7\d5\01\00\81U\02\00\d8\d5\01\00\a1U\02\00\d9\d5\01\00\c1U\02\00\da\d5\01\00\e1U\02\00\db\d5\01\00\01V\02\00\dc\d5\01\00!V\02\00\dd\d5\01\00AV\02\00\de\d5\01\00aV\02\00\df\d5\01\00\81V\02\00\e0\d5\01\00\a1V\02\00\e1\d5\01\00\c1V\02\00\e2\d5\01\00\e1V\02\00\e3\d5\01\00\01W\02\00\e4\d5\01\00!W\02\00\e5\d5\01\00AW\02\00\e6\d5\01\00aW\02\00\e7\d5\01\00\81W\02\00\e8\d5\01\00\a1W\02\00\e9\d5\01\00\c1W\02\00\ea\d5\01\00\e1W\02\00\eb\d5\01\00\01X\02\00\ec\d5\01\00!X\02\00\ed\d5\01\00AX\02\00\ee\d5\01\00aX\02\00\ef\d5\01\00\81X\02\00\f0\d5\01\00\a1X\02\00\f1\d5\01\00\c1X\02\00\f2\d5\01\00\e1X\02\00\f3\d5\01\00\01Y\02\00\f4\d5\01\00!Y\02\00\f5\d5\01\00AY\02\00\f6\d5\01\00aY\02\00\f7\d5\01\00\81Y\02\00\f8\d5\01\00\a1Y\02\00\f9\d5\01\00\c1Y\02\00\fa\d5\01\00\e1Y\02\00\fb\d5\01\00\01Z\02\00\fc\d5\01\00!Z\02\00\fd\d5\01\00AZ\02\00\fe\d5\01\00aZ\02\00\ff\d5\01\00\81Z\02\00\00\d6\01\00\a1Z\02\00\01\d6\01\00\c1Z\02\00\02\d6\01\00\e1Z\02\00\03\d6\01\00\01[\02\00\04\d6\01\00![\02\00\05\d6\01\00A[\02\00\06\d6\01\00a[\02\00\07\d6\01\00\81[\02\00\08\d6\01\00\a1[\02\00\t\d6\01\00\c1[\02\00\n\d6\01\00\e1[\02\00\0b\d6\01\00\01\\\02\00\0c\d6\01\00!\\\02\00\0d\d6\01\00A\\\02\00\0e\d6\01\00a\\\02\00\0f\d6\01\00\81\\\02\00\10\d6\01\00\a1\\\02\00\11\d6\01\00\c1\\\02\00\12\d6\01\00\e1\\\02\00\13\d6\01\00\01]\02\00\14\d6\01\00!]\02\00\15\d6\01\00A]\02\00\16\d6\01\00a]\02\00\17\d6\01\00\81]\02\00\18\d6\01\00\a1]\02\00\19\d6\01\00\c1]\02\00\1a\d6\01\00\e1]\02\00\1b\d6\01\00\01^\02\00\1c\d6\01\00!^\02\00\1d\d6\01\00A^\02\00\1e\d6\01\00a^\02\00\1f\d6\01\00\81^\02\00 \d6\01\00\a1^\02\00!\d6\01\00\c1^\02\00\"\d6\01\00\e1^\02\00#\d6\01\00\01_\02\00$\d6\01\00!_\02\00%\d6\01\00A_\02\00&\d6\01\00a_\02\00\'\d6\01\00\81_\02\00(\d6\01\00\a1_\02\00)\d6\01\00\c1_\02\00*\d6\01\00\e1_\02\00+\d6\01\00\01`\02\00,\d6\01\00!`\02\00-\d6\01\00A`\02\00.\d6\01\00a`\02\00/\d6\01\00\81`\02\000\d6\01\00\a1`\02\001\d6\01\00\c1`\02\002\d6\01\00\e1`\02\003\d6\01\00\01a\02\004\d6\01\00!a\02\005\d6\01\00Aa\02\006\d6\01\00aa\02\007\d6\01\00\81a\02\008\d6\01\00\a1a\02\009\d6\01\00\c1a\02\00:\d6\01\00\e1a\02\00;\d6\01\00\01b\02\00<\d6\01\00!b\02\00=\d6\01\00Ab\02\00>\d6\01\00ab\02\00?\d6\01\00\81b\02\00@\d6\01\00\a1b\02\00A\d6\01\00\c1b\02\00B\d6\01\00\e1b\02\00C\d6\01\00\01c\02\00D\d6\01\00!c\02\00E\d6\01\00Ac\02\00F\d6\01\00ac\02\00G\d6\01\00\81c\02\00H\d6\01\00\a1c\02\00I\d6\01\00\c1c\02\00J\d6\01\00\e1c\02\00K\d6\01\00\01d\02\00L\d6\01\00!d\02\00M\d6\01\00Ad\02\00N\d6\01\00ad\02\00O\d6\01\00\81d\02\00P\d6\01\00\a1d\02\00Q\d6\01\00\c1d\02\00R\d6\01\00\e1d\02\00S\d6\01\00\01e\02\00T\d6\01\00!e\02\00U\d6\01\00Ae\02\00V\d6\01\00ae\02\00W\d6\01\00\81e\02\00X\d6\01\00\a1e\02\00Y\d6\01\00\c1e\02\00Z\d6\01\00\e1e\02\00[\d6\01\00\01f\02\00\\\d6\01\00!f\02\00]\d6\01\00Af\02\00^\d6\01\00af\02\00_\d6\01\00\81f\02\00`\d6\01\00\a1f\02\00a\d6\01\00\c1f\02\00b\d6\01\00\e1f\02\00c\d6\01\00\01g\02\00d\d6\01\00!g\02\00e\d6\01\00Ag\02\00f\d6\01\00ag\02\00g\d6\01\00\81g\02\00h\d6\01\00\a1g\02\00i\d6\01\00\c1g\02\00j\d6\01\00\e1g\02\00k\d6\01\00\01h\02\00l\d6\01\00!h\02\00m\d6\01\00Ah\02\00n\d6\01\00ah\02\00o\d6\01\00\81h\02\00p\d6\01\00\a1h\02\00q\d6\01\00\c1h\02\00r\d6\01\00\e1h\02\00s\d6\01\00\01i\02\00t\d6\01\00!i\02\00u\d6\01\00Ai\02\00v\d6\01\00ai\02\00w\d6\01\00\81i\02\00x\d6\01\00\a1i\02\00y\d6\01\00\c1i\02\00z\d6\01\00\e1i\02\00{\d6\01\00\01j\02\00|\d6\01\00!j\02\00}\d6\01\00Aj\02\00~\d6\01\00aj\02\00\7f\d6\01\00\81j\02\00\80\d6\01\00\a1j\02\00\81\d6\01\00\c1j\02\00\82\d6\01\00\e1j\02\00\83\d6\01\00\01k\02\00\84\d6\01\00!k\02\00\85\d6\01\00Ak\02\00\86\d6\01\00ak\02\00\87\d6\01\00\81k\02\00\88\d6\01\00\a1k\02\00\89\d6\01\00\c1k\02\00\8a\d6\01\00\e1k\02\00\8b\d6\01\00\01l\02\00\8c\d6\01\00!l\02\00\8d\d6\01\00Al\02\00\8e\d6\01\00al\02\00\8f\d6\01\00\81l\02\00\90\d6\01\00\a1l\02\00\91\d6\01\00\c1l\02\00\92\d6\01\00\e1l\02\00\93\d6\01\00\01m\02\00\94\d6\01\00!m\02\00\95\d6\01\00Am\02\00\96\d6\01\00am\02\00\97\d6\01\00\81m\02\00\98\d6\01\00\a1m\02\00\99\d6\01\00\c1m\02\00\9a\d6\01\00\e1m\02\00\9b\d6\01\00\01n\02\00\9c\d6\01\00!n\02\00\9d\d6\01\00An\02\00\9e\d6\01\00an\02\00\9f\d6\01\00\81n\02\00\a0\d6\01\00\a1n\02\00\a1\d6\01\00\c1n\02\00\a2\d6\01\00\e1n\02\00\a3\d6\01\00\01o\02\00\a4\d6\01\00!o\02\00\a5\d6\01\00Ao\02\00\a8\d6\01\00ao\02\00\a9\d6\01\00\81o\02\00\aa\d6\01\00\a1o\02\00\ab\d6\01\00\c1o\02\00\ac\d6\01\00\e1o\02\00\ad\d6\01\00\01p\02\00\ae\d6\01\00!p\02\00\af\d6\01\00Ap\02\00\b0\d6\01\00ap\02\00\b1\d6\01\00\81p\02\00\b2\d6\01\00\a1p\02\00\b3\d6\01\00\c1p\02\00\b4\d6\01\00\e1p\02\00\b5\d6\01\00\01q\02\00\b6\d6\01\00!q\02\00\b7\d6\01\00Aq\02\00\b8\d6\01\00aq\02\00\b9\d6\01\00\81q\02\00\ba\d6\01\00\a1q\02\00\bb\d6\01\00\c1q\02\00\bc\d6\01\00\e1q\02\00\bd\d6\01\00\01r\02\00\be\d6\01\00!r\02\00\bf\d6\01\00Ar\02\00\c0\d6\01\00ar\02\00\c1\d6\01\00\81r\02\00\c2\d6\01\00\a1r\02\00\c3\d6\01\00\c1r\02\00\c4\d6\01\00\e1r\02\00\c5\d6\01\00\01s\02\00\c6\d6\01\00!s\02\00\c7\d6\01\00As\02\00\c8\d6\01\00as\02\00\c9\d6\01\00\81s\02\00\ca\d6\01\00\a1s\02\00\cb\d6\01\00\c1s\02\00\cc\d6\01\00\e1s\02\00\cd\d6\01\00\01t\02\00\ce\d6\01\00!t\02\00\cf\d6\01\00At\02\00\d0\d6\01\00at\02\00\d1\d6\01\00\81t\02\00\d2\d6\01\00\a1t\02\00\d3\d6\01\00\c1t\02\00\d4\d6\01\00\e1t\02\00\d5\d6\01\00\01u\02\00\d6\d6\01\00!u\02\00\d7\d6\01\00Au\02\00\d8\d6\01\00au\02\00\d9\d6\01\00\81u\02\00\da\d6\01\00\a1u\02\00\db\d6\01\00\c1u\02\00\dc\d6\01\00\e1u\02\00\dd\d6\01\00\01v\02\00\de\d6\01\00!v\02\00\df\d6\01\00Av\02\00\e0\d6\01\00av\02\00\e1\d6\01\00\81v\02\00\e2\d6\01\00\a1v\02\00\e3\d6\01\00\c1v\02\00\e4\d6\01\00\e1v\02\00\e5\d6\01\00\01w\02\00\e6\d6\01\00!w\02\00\e7\d6\01\00Aw\02\00\e8\d6\01\00aw\02\00\e9\d6\01\00\81w\02\00\ea\d6\01\00\a1w\02\00\eb\d6\01\00\c1w\02\00\ec\d6\01\00\e1w\02\00\ed\d6\01\00\01x\02\00\ee\d6\01\00!x\02\00\ef\d6\01\00Ax\02\00\f0\d6\01\00ax\02\00\f1\d6\01\00\81x\02\00\f2\d6\01\00\a1x\02\00\f3\d6\01\00\c1x\02\00\f4\d6\01\00\e1x\02\00\f5\d6\01\00\01y\02\00\f6\d6\01\00!y\02\00\f7\d6\01\00Ay\02\00\f8\d6\01\00ay\02\00\f9\d6\01\00\81y\02\00\fa\d6\01\00\a1y\02\00\fb\d6\01\00\c1y\02\00\fc\d6\01\00\e1y\02\00\fd\d6\01\00\01z\02\00\fe\d6\01\00!z\02\00\ff\d6\01\00Az\02\00\00\d7\01\00az\02\00\01\d7\01\00\81z\02\00\02\d7\01\00\a1z\02\00\03\d7\01\00\c1z\02\00\04\d7\01\00\e1z\02\00\05\d7\01\00\01{\02\00\06\d7\01\00!{\02\00\07\d7\01\00A{\02\00\08\d7\01\00a{\02\00\t\d7\01\00\81{\02\00\n\d7\01\00\a1{\02\00\0b\d7\01\00\c1{\02\00\0c\d7\01\00\e1{\02\00\0d\d7\01\00\01|\02\00\0e\d7\01\00!|\02\00\0f\d7\01\00A|\02\00\10\d7\01\00a|\02\00\11\d7\01\00\81|\02\00\12\d7\01\00\a1|\02\00\13\d7\01\00\c1|\02\00\14\d7\01\00\e1|\02\00\15\d7\01\00\01}\02\00\16\d7\01\00!}\02\00\17\d7\01\00A}\02\00\18\d7\01\00a}\02\00\19\d7\01\00\81}\02\00\1a\d7\01\00\a1}\02\00\1b\d7\01\00\c1}\02\00\1c\d7\01\00\e1}\02\00\1d\d7\01\00\01~\02\00\1e\d7\01\00!~\02\00\1f\d7\01\00A~\02\00 \d7\01\00a~\02\00!\d7\01\00\81~\02\00\"\d7\01\00\a1~\02\00#\d7\01\00\c1~\02\00$\d7\01\00\e1~\02\00%\d7\01\00\01\7f\02\00&\d7\01\00!\7f\02\00\'\d7\01\00A\7f\02\00(\d7\01\00a\7f\02\00)\d7\01\00\81\7f\02\00*\d7\01\00\a1\7f\02\00+\d7\01\00\c1\7f\02\00,\d7\01\00\e1\7f\02\00-\d7\01\00\01\80\02\00.\d7\01\00!\80\02\00/\d7\01\00A\80\02\000\d7\01\00a\80\02\001\d7\01\00\81\80\02\002\d7\01\00\a1\80\02\003\d7\01\00\c1\80\02\004\d7\01\00\e1\80\02\005\d7\01\00\01\81\02\006\d7\01\00!\81\02\007\d7\01\00A\81\02\008\d7\01\00a\81\02\009\d7\01\00\81\81\02\00:\d7\01\00\a1\81\02\00;\d7\01\00\c1\81\02\00<\d7\01\00\e1\81\02\00=\d7\01\00\01\82\02\00>\d7\01\00!\82\02\00?\d7\01\00A\82\02\00@\d7\01\00a\82\02\00A\d7\01\00\81\82\02\00B\d7\01\00\a1\82\02\00C\d7\01\00\c1\82\02\00D\d7\01\00\e1\82\02\00E\d7\01\00\01\83\02\00F\d7\01\00!\83\02\00G\d7\01\00A\83\02\00H\d7\01\00a\83\02\00I\d7\01\00\81\83\02\00J\d7\01\00\a1\83\02\00K\d7\01\00\c1\83\02\00L\d7\01\00\e1\83\02\00M\d7\01\00\01\84\02\00N\d7\01\00!\84\02\00O\d7\01\00A\84\02\00P\d7\01\00a\84\02\00Q\d7\01\00\81\84\02\00R\d7\01\00\a1\84\02\00S\d7\01\00\c1\84\02\00T\d7\01\00\e1\84\02\00U\d7\01\00\01\85\02\00V\d7\01\00!\85\02\00W\d7\01\00A\85\02\00X\d7\01\00a\85\02\00Y\d7\01\00\81\85\02\00Z\d7\01\00\a1\85\02\00[\d7\01\00\c1\85\02\00\\\d7\01\00\e1\85\02\00]\d7\01\00\01\86\02\00^\d7\01\00!\86\02\00_\d7\01\00A\86\02\00`\d7\01\00a\86\02\00a\d7\01\00\81\86\02\00b\d7\01\00\a1\86\02\00c\d7\01\00\c1\86\02\00d\d7\01\00\e1\86\02\00e\d7\01\00\01\87\02\00f\d7\01\00!\87\02\00g\d7\01\00A\87\02\00h\d7\01\00a\87\02\00i\d7\01\00\81\87\02\00j\d7\01\00\a1\87\02\00k\d7\01\00\c1\87\02\00l\d7\01\00\e1\87\02\00m\d7\01\00\01\88\02\00n\d7\01\00!\88\02\00o\d7\01\00A\88\02\00p\d7\01\00a\88\02\00q\d7\01\00\81\88\02\00r\d7\01\00\a1\88\02\00s\d7\01\00\c1\88\02\00t\d7\01\00\e1\88\02\00u\d7\01\00\01\89\02\00v\d7\01\00!\89\02\00w\d7\01\00A\89\02\00x\d7\01\00a\89\02\00y\d7\01\00\81\89\02\00z\d7\01\00\a1\89\02\00{\d7\01\00\c1\89\02\00|\d7\01\00\e1\89\02\00}\d7\01\00\01\8a\02\00~\d7\01\00!\8a\02\00\7f\d7\01\00A\8a\02\00\80\d7\01\00a\8a\02\00\81\d7\01\00\81\8a\02\00\82\d7\01\00\a1\8a\02\00\83\d7\01\00\c1\8a\02\00\84\d7\01\00\e1\8a\02\00\85\d7\01\00\01\8b\02\00\86\d7\01\00!\8b\02\00\87\d7\01\00A\8b\02\00\88\d7\01\00a\8b\02\00\89\d7\01\00\81\8b\02\00\8a\d7\01\00\a1\8b\02\00\8b\d7\01\00\c1\8b\02\00\8c\d7\01\00\e1\8b\02\00\8d\d7\01\00\01\8c\02\00\8e\d7\01\00!\8c\02\00\8f\d7\01\00A\8c\02\00\90\d7\01\00a\8c\02\00\91\d7\01\00\81\8c\02\00\92\d7\01\00\a1\8c\02\00\93\d7\01\00\c1\8c\02\00\94\d7\01\00\e1\8c\02\00\95\d7\01\00\01\8d\02\00\96\d7\01\00!\8d\02\00\97\d7\01\00A\8d\02\00\98\d7\01\00a\8d\02\00\99\d7\01\00\81\8d\02\00\9a\d7\01\00\a1\8d\02\00\9b\d7\01\00\c1\8d\02\00\9c\d7\01\00\e1\8d\02\00\9d\d7\01\00\01\8e\02\00\9e\d7\01\00!\8e\02\00\9f\d7\01\00A\8e\02\00\a0\d7\01\00a\8e\02\00\a1\d7\01\00\81\8e\02\00\a2\d7\01\00\a1\8e\02\00\a3\d7\01\00\c1\8e\02\00\a4\d7\01\00\e1\8e\02\00\a5\d7\01\00\01\8f\02\00\a6\d7\01\00!\8f\02\00\a7\d7\01\00A\8f\02\00\a8\d7\01\00a\8f\02\00\a9\d7\01\00\81\8f\02\00\aa\d7\01\00\a1\8f\02\00\ab\d7\01\00\c1\8f\02\00\ac\d7\01\00\e1\8f\02\00\ad\d7\01\00\01\90\02\00\ae\d7\01\00!\90\02\00\af\d7\01\00A\90\02\00\b0\d7\01\00a\90\02\00\b1\d7\01\00\81\90\02\00\b2\d7\01\00\a1\90\02\00\b3\d7\01\00\c1\90\02\00\b4\d7\01\00\e1\90\02\00\b5\d7\01\00\01\91\02\00\b6\d7\01\00!\91\02\00\b7\d7\01\00A\91\02\00\b8\d7\01\00a\91\02\00\b9\d7\01\00\81\91\02\00\ba\d7\01\00\a1\91\02\00\bb\d7\01\00\c1\91\02\00\bc\d7\01\00\e1\91\02\00\bd\d7\01\00\01\92\02\00\be\d7\01\00!\92\02\00\bf\d7\01\00A\92\02\00\c0\d7\01\00a\92\02\00\c1\d7\01\00\81\92\02\00\c2\d7\01\00\a1\92\02\00\c3\d7\01\00\c1\92\02\00\c4\d7\01\00\e1\92\02\00\c5\d7\01\00\01\93\02\00\c6\d7\01\00!\93\02\00\c7\d7\01\00A\93\02\00\c8\d7\01\00a\93\02\00\c9\d7\01\00\81\93\02\00\ca\d7\01\00\a1\93\02\00\cb\d7\01\00\c1\93\02\00\ce\d7\01\00\e1\93\02\00\cf\d7\01\00\01\94\02\00\d0\d7\01\00!\94\02\00\d1\d7\01\00A\94\02\00\d2\d7\01\00a\94\02\00\d3\d7\01\00\81\94\02\00\d4\d7\01\00\a1\94\02\00\d5\d7\01\00\c1\94\02\00\d6\d7\01\00\e1\94\02\00\d7\d7\01\00\01\95\02\00\d8\d7\01\00!\95\02\00\d9\d7\01\00A\95\02\00\da\d7\01\00a\95\02\00\db\d7\01\00\81\95\02\00\dc\d7\01\00\a1\95\02\00\dd\d7\01\00\c1\95\02\00\de\d7\01\00\e1\95\02\00\df\d7\01\00\01\96\02\00\e0\d7\01\00!\96\02\00\e1\d7\01\00A\96\02\00\e2\d7\01\00a\96\02\00\e3\d7\01\00\81\96\02\00\e4\d7\01\00\a1\96\02\00\e5\d7\01\00\c1\96\02\00\e6\d7\01\00\e1\96\02\00\e7\d7\01\00\01\97\02\00\e8\d7\01\00!\97\02\00\e9\d7\01\00A\97\02\00\ea\d7\01\00a\97\02\00\eb\d7\01\00\81\97\02\00\ec\d7\01\00\a1\97\02\00\ed\d7\01\00\c1\97\02\00\ee\d7\01\00\e1\97\02\00\ef\d7\01\00\01\98\02\00\f0\d7\01\00!\98\02\00\f1\d7\01\00A\98\02\00\f2\d7\01\00a\98\02\00\f3\d7\01\00\81\98\02\00\f4\d7\01\00\a1\98\02\00\f5\d7\01\00\c1\98\02\00\f6\d7\01\00\e1\98\02\00\f7\d7\01\00\01\99\02\00\f8\d7\01\00!\99\02\00\f9\d7\01\00A\99\02\00\fa\d7\01\00a\99\02\00\fb\d7\01\00\81\99\02\00\fc\d7\01\00\a1\99\02\00\fd\d7\01\00\c1\99\02\00\fe\d7\01\00\e1\99\02\00\ff\d7\01\00\01\9a\02\000\e0\01\00!\9a\02\001\e0\01\00A\9a\02\002\e0\01\00a\9a\02\003\e0\01\00\81\9a\02\004\e0\01\00\a1\9a\02\005\e0\01\00\c1\9a\02\006\e0\01\00\e1\9a\02\007\e0\01\00\01\9b\02\008\e0\01\00!\9b\02\009\e0\01\00A\9b\02\00:\e0\01\00a\9b\02\00;\e0\01\00\81\9b\02\00<\e0\01\00\a1\9b\02\00=\e0\01\00\c1\9b\02\00>\e0\01\00\e1\9b\02\00?\e0\01\00\01\9c\02\00@\e0\01\00!\9c\02\00A\e0\01\00A\9c\02\00B\e0\01\00a\9c\02\00C\e0\01\00\81\9c\02\00D\e0\01\00\a1\9c\02\00E\e0\01\00\c1\9c\02\00F\e0\01\00\e1\9c\02\00G\e0\01\00\01\9d\02\00H\e0\01\00!\9d\02\00I\e0\01\00A\9d\02\00J\e0\01\00a\9d\02\00K\e0\01\00\81\9d\02\00L\e0\01\00\a1\9d\02\00M\e0\01\00\c1\9d\02\00N\e0\01\00\e1\9d\02\00O\e0\01\00\01\9e\02\00P\e0\01\00!\9e\02\00Q\e0\01\00A\9e\02\00R\e0\01\00a\9e\02\00S\e0\01\00\81\9e\02\00T\e0\01\00\a1\9e\02\00U\e0\01\00\c1\9e\02\00V\e0\01\00\e1\9e\02\00W\e0\01\00\01\9f\02\00X\e0\01\00!\9f\02\00Y\e0\01\00A\9f\02\00Z\e0\01\00a\9f\02\00[\e0\01\00\81\9f\02\00\\\e0\01\00\a1\9f\02\00]\e0\01\00\c1\9f\02\00^\e0\01\00\e1\9f\02\00_\e0\01\00\01\a0\02\00`\e0\01\00!\a0\02\00a\e0\01\00A\a0\02\00b\e0\01\00a\a0\02\00c\e0\01\00\81\a0\02\00d\e0\01\00\a1\a0\02\00e\e0\01\00\c1\a0\02\00f\e0\01\00\e1\a0\02\00g\e0\01\00\01\a1\02\00h\e0\01\00!\a1\02\00i\e0\01\00A\a1\02\00j\e0\01\00a\a1\02\00k\e0\01\00\81\a1\02\00l\e0\01\00\a1\a1\02\00m\e0\01\00\c1\a1\02\00\00\ee\01\00\e1\a1\02\00\01\ee\01\00\01\a2\02\00\02\ee\01\00!\a2\02\00\03\ee\01\00A\a2\02\00\05\ee\01\00a\a2\02\00\06\ee\01\00\81\a2\02\00\07\ee\01\00\a1\a2\02\00\08\ee\01\00\c1\a2\02\00\t\ee\01\00\e1\a2\02\00\n\ee\01\00\01\a3\02\00\0b\ee\01\00!\a3\02\00\0c\ee\01\00A\a3\02\00\0d\ee\01\00a\a3\02\00\0e\ee\01\00\81\a3\02\00\0f\ee\01\00\a1\a3\02\00\10\ee\01\00\c1\a3\02\00\11\ee\01\00\e1\a3\02\00\12\ee\01\00\01\a4\02\00\13\ee\01\00!\a4\02\00\14\ee\01\00A\a4\02\00\15\ee\01\00a\a4\02\00\16\ee\01\00\81\a4\02\00\17\ee\01\00\a1\a4\02\00\18\ee\01\00\c1\a4\02\00\19\ee\01\00\e1\a4\02\00\1a\ee\01\00\01\a5\02\00\1b\ee\01\00!\a5\02\00\1c\ee\01\00A\a5\02\00\1d\ee\01\00a\a5\02\00\1e\ee\01\00\81\a5\02\00\1f\ee\01\00\a1\a5\02\00!\ee\01\00\c1\a5\02\00\"\ee\01\00\e1\a5\02\00$\ee\01\00\01\a6\02\00\'\ee\01\00!\a6\02\00)\ee\01\00A\a6\02\00*\ee\01\00a\a6\02\00+\ee\01\00\81\a6\02\00,\ee\01\00\a1\a6\02\00-\ee\01\00\c1\a6\02\00.\ee\01\00\e1\a6\02\00/\ee\01\00\01\a7\02\000\ee\01\00!\a7\02\001\ee\01\00A\a7\02\002\ee\01\00a\a7\02\004\ee\01\00\81\a7\02\005\ee\01\00\a1\a7\02\006\ee\01\00\c1\a7\02\007\ee\01\00\e1\a7\02\009\ee\01\00\01\a8\02\00;\ee\01\00!\a8\02\00B\ee\01\00A\a8\02\00G\ee\01\00a\a8\02\00I\ee\01\00\81\a8\02\00K\ee\01\00\a1\a8\02\00M\ee\01\00\c1\a8\02\00N\ee\01\00\e1\a8\02\00O\ee\01\00\01\a9\02\00Q\ee\01\00!\a9\02\00R\ee\01\00A\a9\02\00T\ee\01\00a\a9\02\00W\ee\01\00\81\a9\02\00Y\ee\01\00\a1\a9\02\00[\ee\01\00\c1\a9\02\00]\ee\01\00\e1\a9\02\00_\ee\01\00\01\aa\02\00a\ee\01\00!\aa\02\00b\ee\01\00A\aa\02\00d\ee\01\00a\aa\02\00g\ee\01\00\81\aa\02\00h\ee\01\00\a1\aa\02\00i\ee\01\00\c1\aa\02\00j\ee\01\00\e1\aa\02\00l\ee\01\00\01\ab\02\00m\ee\01\00!\ab\02\00n\ee\01\00A\ab\02\00o\ee\01\00a\ab\02\00p\ee\01\00\81\ab\02\00q\ee\01\00\a1\ab\02\00r\ee\01\00\c1\ab\02\00t\ee\01\00\e1\ab\02\00u\ee\01\00\01\ac\02\00v\ee\01\00!\ac\02\00w\ee\01\00A\ac\02\00y\ee\01\00a\ac\02\00z\ee\01\00\81\ac\02\00{\ee\01\00\a1\ac\02\00|\ee\01\00\c1\ac\02\00~\ee\01\00\e1\ac\02\00\80\ee\01\00\01\ad\02\00\81\ee\01\00!\ad\02\00\82\ee\01\00A\ad\02\00\83\ee\01\00a\ad\02\00\84\ee\01\00\81\ad\02\00\85\ee\01\00\a1\ad\02\00\86\ee\01\00\c1\ad\02\00\87\ee\01\00\e1\ad\02\00\88\ee\01\00\01\ae\02\00\89\ee\01\00!\ae\02\00\8b\ee\01\00A\ae\02\00\8c\ee\01\00a\ae\02\00\8d\ee\01\00\81\ae\02\00\8e\ee\01\00\a1\ae\02\00\8f\ee\01\00\c1\ae\02\00\90\ee\01\00\e1\ae\02\00\91\ee\01\00\01\af\02\00\92\ee\01\00!\af\02\00\93\ee\01\00A\af\02\00\94\ee\01\00a\af\02\00\95\ee\01\00\81\af\02\00\96\ee\01\00\a1\af\02\00\97\ee\01\00\c1\af\02\00\98\ee\01\00\e1\af\02\00\99\ee\01\00\01\b0\02\00\9a\ee\01\00!\b0\02\00\9b\ee\01\00A\b0\02\00\a1\ee\01\00a\b0\02\00\a2\ee\01\00\81\b0\02\00\a3\ee\01\00\a1\b0\02\00\a5\ee\01\00\c1\b0\02\00\a6\ee\01\00\e1\b0\02\00\a7\ee\01\00\01\b1\02\00\a8\ee\01\00!\b1\02\00\a9\ee\01\00A\b1\02\00\ab\ee\01\00a\b1\02\00\ac\ee\01\00\81\b1\02\00\ad\ee\01\00\a1\b1\02\00\ae\ee\01\00\c1\b1\02\00\af\ee\01\00\e1\b1\02\00\b0\ee\01\00\01\b2\02\00\b1\ee\01\00!\b2\02\00\b2\ee\01\00A\b2\02\00\b3\ee\01\00a\b2\02\00\b4\ee\01\00\81\b2\02\00\b5\ee\01\00\a1\b2\02\00\b6\ee\01\00\c1\b2\02\00\b7\ee\01\00\e1\b2\02\00\b8\ee\01\00\01\b3\02\00\b9\ee\01\00!\b3\02\00\ba\ee\01\00A\b3\02\00\bb\ee\01\00a\b3\02\00\00\f1\01\00\82\b3\02\00\01\f1\01\00\c2\b3\02\00\02\f1\01\00\02\b4\02\00\03\f1\01\00B\b4\02\00\04\f1\01\00\82\b4\02\00\05\f1\01\00\c2\b4\02\00\06\f1\01\00\02\b5\02\00\07\f1\01\00B\b5\02\00\08\f1\01\00\82\b5\02\00\t\f1\01\00\c2\b5\02\00\n\f1\01\00\02\b6\02\00\10\f1\01\00C\b6\02\00\11\f1\01\00\a3\b6\02\00\12\f1\01\00\03\b7\02\00\13\f1\01\00c\b7\02\00\14\f1\01\00\c3\b7\02\00\15\f1\01\00#\b8\02\00\16\f1\01\00\83\b8\02\00\17\f1\01\00\e3\b8\02\00\18\f1\01\00C\b9\02\00\19\f1\01\00\a3\b9\02\00\1a\f1\01\00\03\ba\02\00\1b\f1\01\00c\ba\02\00\1c\f1\01\00\c3\ba\02\00\1d\f1\01\00#\bb\02\00\1e\f1\01\00\83\bb\02\00\1f\f1\01\00\e3\bb\02\00 \f1\01\00C\bc\02\00!\f1\01\00\a3\bc\02\00\"\f1\01\00\03\bd\02\00#\f1\01\00c\bd\02\00$\f1\01\00\c3\bd\02\00%\f1\01\00#\be\02\00&\f1\01\00\83\be\02\00\'\f1\01\00\e3\be\02\00(\f1\01\00C\bf\02\00)\f1\01\00\a3\bf\02\00*\f1\01\00\03\c0\02\00+\f1\01\00a\c0\02\00,\f1\01\00\81\c0\02\00-\f1\01\00\a2\c0\02\00.\f1\01\00\e2\c0\02\000\f1\01\00!\c1\02\001\f1\01\00A\c1\02\002\f1\01\00a\c1\02\003\f1\01\00\81\c1\02\004\f1\01\00\a1\c1\02\005\f1\01\00\c1\c1\02\006\f1\01\00\e1\c1\02\007\f1\01\00\01\c2\02\008\f1\01\00!\c2\02\009\f1\01\00A\c2\02\00:\f1\01\00a\c2\02\00;\f1\01\00\81\c2\02\00<\f1\01\00\a1\c2\02\00=\f1\01\00\c1\c2\02\00>\f1\01\00\e1\c2\02\00?\f1\01\00\01\c3\02\00@\f1\01\00!\c3\02\00A\f1\01\00A\c3\02\00B\f1\01\00a\c3\02\00C\f1\01\00\81\c3\02\00D\f1\01\00\a1\c3\02\00E\f1\01\00\c1\c3\02\00F\f1\01\00\e1\c3\02\00G\f1\01\00\01\c4\02\00H\f1\01\00!\c4\02\00I\f1\01\00A\c4\02\00J\f1\01\00b\c4\02\00K\f1\01\00\a2\c4\02\00L\f1\01\00\e2\c4\02\00M\f1\01\00\"\c5\02\00N\f1\01\00c\c5\02\00O\f1\01\00\c2\c5\02\00j\f1\01\00\02\c6\02\00k\f1\01\00B\c6\02\00l\f1\01\00\82\c6\02\00\90\f1\01\00\c2\c6\02\00\00\f2\01\00\02\c7\02\00\01\f2\01\00B\c7\02\00\02\f2\01\00\81\c7\02\00\10\f2\01\00\a1\c7\02\00\11\f2\01\00\c1\c7\02\00\12\f2\01\00\e1\c7\02\00\13\f2\01\00\02\c8\02\00\14\f2\01\00A\c8\02\00\15\f2\01\00a\c8\02\00\16\f2\01\00\81\c8\02\00\17\f2\01\00\a1\c8\02\00\18\f2\01\00\c1\c8\02\00\19\f2\01\00\e1\c8\02\00\1a\f2\01\00\01\c9\02\00\1b\f2\01\00!\c9\02\00\1c\f2\01\00A\c9\02\00\1d\f2\01\00a\c9\02\00\1e\f2\01\00\81\c9\02\00\1f\f2\01\00\a1\c9\02\00 \f2\01\00\c1\c9\02\00!\f2\01\00\e1\c9\02\00\"\f2\01\00\01\ca\02\00#\f2\01\00!\ca\02\00$\f2\01\00A\ca\02\00%\f2\01\00a\ca\02\00&\f2\01\00\81\ca\02\00\'\f2\01\00\a1\ca\02\00(\f2\01\00\c1\ca\02\00)\f2\01\00\e1\ca\02\00*\f2\01\00\01\cb\02\00+\f2\01\00!\cb\02\00,\f2\01\00A\cb\02\00-\f2\01\00a\cb\02\00.\f2\01\00\81\cb\02\00/\f2\01\00\a1\cb\02\000\f2\01\00\c1\cb\02\001\f2\01\00\e1\cb\02\002\f2\01\00\01\cc\02\003\f2\01\00!\cc\02\004\f2\01\00A\cc\02\005\f2\01\00a\cc\02\006\f2\01\00\81\cc\02\007\f2\01\00\a1\cc\02\008\f2\01\00\c1\cc\02\009\f2\01\00\e1\cc\02\00:\f2\01\00\01\cd\02\00;\f2\01\00!\cd\02\00@\f2\01\00C\cd\02\00A\f2\01\00\a3\cd\02\00B\f2\01\00\03\ce\02\00C\f2\01\00c\ce\02\00D\f2\01\00\c3\ce\02\00E\f2\01\00#\cf\02\00F\f2\01\00\83\cf\02\00G\f2\01\00\e3\cf\02\00H\f2\01\00C\d0\02\00P\f2\01\00\a1\d0\02\00Q\f2\01\00\c1\d0\02\00\f0\fb\01\00\e1\d0\02\00\f1\fb\01\00\01\d1\02\00\f2\fb\01\00!\d1\02\00\f3\fb\01\00A\d1\02\00\f4\fb\01\00a\d1\02\00\f5\fb\01\00\81\d1\02\00\f6\fb\01\00\a1\d1\02\00\f7\fb\01\00\c1\d1\02\00\f8\fb\01\00\e1\d1\02\00\f9\fb\01\00\01\d2\02\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 108912) "p)\01\00\10\1e\00\00")
+ (data (i32.const 108920) "@x\00\00\00\00\00\00\a0\00\00\00\01\00\00\00\a8\00\00\00\"\00\00\00\aa\00\00\00a\00\00\00\af\00\00\00\82\00\00\00\b2\00\00\00\c1\00\00\00\b3\00\00\00\e1\00\00\00\b4\00\00\00\02\01\00\00\b5\00\00\00A\01\00\00\b8\00\00\00b\01\00\00\b9\00\00\00\a1\01\00\00\ba\00\00\00\c1\01\00\00\bc\00\00\00\e3\01\00\00\bd\00\00\00C\02\00\00\be\00\00\00\a3\02\00\002\01\00\00\02\03\00\003\01\00\00B\03\00\00?\01\00\00\82\03\00\00@\01\00\00\c2\03\00\00I\01\00\00\02\04\00\00\7f\01\00\00A\04\00\00\c4\01\00\00c\04\00\00\c5\01\00\00\c3\04\00\00\c6\01\00\00#\05\00\00\c7\01\00\00\82\05\00\00\c8\01\00\00\c2\05\00\00\c9\01\00\00\02\06\00\00\ca\01\00\00B\06\00\00\cb\01\00\00\82\06\00\00\cc\01\00\00\c2\06\00\00\f1\01\00\00\02\07\00\00\f2\01\00\00B\07\00\00\f3\01\00\00\82\07\00\00\b0\02\00\00\c1\07\00\00\b1\02\00\00\e1\07\00\00\b2\02\00\00\01\08\00\00\b3\02\00\00!\08\00\00\b4\02\00\00A\08\00\00\b5\02\00\00a\08\00\00\b6\02\00\00\81\08\00\00\b7\02\00\00\a1\08\00\00\b8\02\00\00\c1\08\00\00\d8\02\00\00\e2\08\00\00\d9\02\00\00\"\t\00\00\da\02\00\00b\t\00\00\db\02\00\00\a2\t\00\00\dc\02\00\00\e2\t\00\00\dd\02\00\00\"\n\00\00\e0\02\00\00a\n\00\00\e1\02\00\00\81\n\00\00\e2\02\00\00\a1\n\00\00\e3\02\00\00\c1\n\00\00\e4\02\00\00\e1\n\00\00z\03\00\00\02\0b\00\00\84\03\00\00B\0b\00\00\85\03\00\00\83\0b\00\00\d0\03\00\00\e1\0b\00\00\d1\03\00\00\01\0c\00\00\d2\03\00\00!\0c\00\00\d3\03\00\00B\0c\00\00\d4\03\00\00\82\0c\00\00\d5\03\00\00\c1\0c\00\00\d6\03\00\00\e1\0c\00\00\f0\03\00\00\01\0d\00\00\f1\03\00\00!\0d\00\00\f2\03\00\00A\0d\00\00\f4\03\00\00a\0d\00\00\f5\03\00\00\81\0d\00\00\f9\03\00\00\a1\0d\00\00\87\05\00\00\c2\0d\00\00u\06\00\00\02\0e\00\00v\06\00\00B\0e\00\00w\06\00\00\82\0e\00\00x\06\00\00\c2\0e\00\003\0e\00\00\02\0f\00\00\b3\0e\00\00B\0f\00\00\dc\0e\00\00\82\0f\00\00\dd\0e\00\00\c2\0f\00\00\0c\0f\00\00\01\10\00\00w\0f\00\00#\10\00\00y\0f\00\00\83\10\00\00\fc\10\00\00\e1\10\00\00,\1d\00\00\01\11\00\00-\1d\00\00!\11\00\00.\1d\00\00A\11\00\000\1d\00\00a\11\00\001\1d\00\00\81\11\00\002\1d\00\00\a1\11\00\003\1d\00\00\c1\11\00\004\1d\00\00\e1\11\00\005\1d\00\00\01\12\00\006\1d\00\00!\12\00\007\1d\00\00A\12\00\008\1d\00\00a\12\00\009\1d\00\00\81\12\00\00:\1d\00\00\a1\12\00\00<\1d\00\00\c1\12\00\00=\1d\00\00\e1\12\00\00>\1d\00\00\01\13\00\00?\1d\00\00!\13\00\00@\1d\00\00A\13\00\00A\1d\00\00a\13\00\00B\1d\00\00\81\13\00\00C\1d\00\00\a1\13\00\00D\1d\00\00\c1\13\00\00E\1d\00\00\e1\13\00\00F\1d\00\00\01\14\00\00G\1d\00\00!\14\00\00H\1d\00\00A\14\00\00I\1d\00\00a\14\00\00J\1d\00\00\81\14\00\00K\1d\00\00\a1\14\00\00L\1d\00\00\c1\14\00\00M\1d\00\00\e1\14\00\00O\1d\00\00\01\15\00\00P\1d\00\00!\15\00\00Q\1d\00\00A\15\00\00R\1d\00\00a\15\00\00S\1d\00\00\81\15\00\00T\1d\00\00\a1\15\00\00U\1d\00\00\c1\15\00\00V\1d\00\00\e1\15\00\00W\1d\00\00\01\16\00\00X\1d\00\00!\16\00\00Y\1d\00\00A\16\00\00Z\1d\00\00a\16\00\00[\1d\00\00\81\16\00\00\\\1d\00\00\a1\16\00\00]\1d\00\00\c1\16\00\00^\1d\00\00\e1\16\00\00_\1d\00\00\01\17\00\00`\1d\00\00!\17\00\00a\1d\00\00A\17\00\00b\1d\00\00a\17\00\00c\1d\00\00\81\17\00\00d\1d\00\00\a1\17\00\00e\1d\00\00\c1\17\00\00f\1d\00\00\e1\17\00\00g\1d\00\00\01\18\00\00h\1d\00\00!\18\00\00i\1d\00\00A\18\00\00j\1d\00\00a\18\00\00x\1d\00\00\81\18\00\00\9b\1d\00\00\a1\18\00\00\9c\1d\00\00\c1\18\00\00\9d\1d\00\00\e1\18\00\00\9e\1d\00\00\01\19\00\00\9f\1d\00\00!\19\00\00\a0\1d\00\00A\19\00\00\a1\1d\00\00a\19\00\00\a2\1d\00\00\81\19\00\00\a3\1d\00\00\a1\19\00\00\a4\1d\00\00\c1\19\00\00\a5\1d\00\00\e1\19\00\00\a6\1d\00\00\01\1a\00\00\a7\1d\00\00!\1a\00\00\a8\1d\00\00A\1a\00\00\a9\1d\00\00a\1a\00\00\aa\1d\00\00\81\1a\00\00\ab\1d\00\00\a1\1a\00\00\ac\1d\00\00\c1\1a\00\00\ad\1d\00\00\e1\1a\00\00\ae\1d\00\00\01\1b\00\00\af\1d\00\00!\1b\00\00\b0\1d\00\00A\1b\00\00\b1\1d\00\00a\1b\00\00\b2\1d\00\00\81\1b\00\00\b3\1d\00\00\a1\1b\00\00\b4\1d\00\00\c1\1b\00\00\b5\1d\00\00\e1\1b\00\00\b6\1d\00\00\01\1c\00\00\b7\1d\00\00!\1c\00\00\b8\1d\00\00A\1c\00\00\b9\1d\00\00a\1c\00\00\ba\1d\00\00\81\1c\00\00\bb\1d\00\00\a1\1c\00\00\bc\1d\00\00\c1\1c\00\00\bd\1d\00\00\e1\1c\00\00\be\1d\00\00\01\1d\00\00\bf\1d\00\00!\1d\00\00\9a\1e\00\00B\1d\00\00\9b\1e\00\00\82\1d\00\00\bd\1f\00\00\c2\1d\00\00\bf\1f\00\00\02\1e\00\00\c0\1f\00\00B\1e\00\00\c1\1f\00\00\83\1e\00\00\cd\1f\00\00\e3\1e\00\00\ce\1f\00\00C\1f\00\00\cf\1f\00\00\a3\1f\00\00\dd\1f\00\00\03 \00\00\de\1f\00\00c \00\00\df\1f\00\00\c3 \00\00\ed\1f\00\00#!\00\00\ee\1f\00\00\83!\00\00\fd\1f\00\00\e2!\00\00\fe\1f\00\00\"\"\00\00\00 \00\00a\"\00\00\01 \00\00\81\"\00\00\02 \00\00\a1\"\00\00\03 \00\00\c1\"\00\00\04 \00\00\e1\"\00\00\05 \00\00\01#\00\00\06 \00\00!#\00\00\07 \00\00A#\00\00\08 \00\00a#\00\00\t \00\00\81#\00\00\n \00\00\a1#\00\00\11 \00\00\c1#\00\00\17 \00\00\e2#\00\00$ \00\00!$\00\00% \00\00B$\00\00& \00\00\83$\00\00/ \00\00\e1$\00\003 \00\00\02%\00\004 \00\00C%\00\006 \00\00\a2%\00\007 \00\00\e3%\00\00< \00\00B&\00\00> \00\00\82&\00\00G \00\00\c2&\00\00H \00\00\02\'\00\00I \00\00B\'\00\00W \00\00\84\'\00\00_ \00\00\01(\00\00p \00\00!(\00\00q \00\00A(\00\00t \00\00a(\00\00u \00\00\81(\00\00v \00\00\a1(\00\00w \00\00\c1(\00\00x \00\00\e1(\00\00y \00\00\01)\00\00z \00\00!)\00\00{ \00\00A)\00\00| \00\00a)\00\00} \00\00\81)\00\00~ \00\00\a1)\00\00\7f \00\00\c1)\00\00\80 \00\00\e1)\00\00\81 \00\00\01*\00\00\82 \00\00!*\00\00\83 \00\00A*\00\00\84 \00\00a*\00\00\85 \00\00\81*\00\00\86 \00\00\a1*\00\00\87 \00\00\c1*\00\00\88 \00\00\e1*\00\00\89 \00\00\01+\00\00\8a \00\00!+\00\00\8b \00\00A+\00\00\8c \00\00a+\00\00\8d \00\00\81+\00\00\8e \00\00\a1+\00\00\90 \00\00\c1+\00\00\91 \00\00\e1+\00\00\92 \00\00\01,\00\00\93 \00\00!,\00\00\94 \00\00A,\00\00\95 \00\00a,\00\00\96 \00\00\81,\00\00\97 \00\00\a1,\00\00\98 \00\00\c1,\00\00\99 \00\00\e1,\00\00\9a \00\00\01-\00\00\9b \00\00!-\00\00\9c \00\00A-\00\00\a8 \00\00b-\00\00\00!\00\00\a3-\00\00\01!\00\00\03.\00\00\02!\00\00a.\00\00\03!\00\00\82.\00\00\05!\00\00\c3.\00\00\06!\00\00#/\00\00\07!\00\00\81/\00\00\t!\00\00\a2/\00\00\n!\00\00\e1/\00\00\0b!\00\00\010\00\00\0c!\00\00!0\00\00\0d!\00\00A0\00\00\0e!\00\00a0\00\00\0f!\00\00\810\00\00\10!\00\00\a10\00\00\11!\00\00\c10\00\00\12!\00\00\e10\00\00\13!\00\00\011\00\00\15!\00\00!1\00\00\16!\00\00B1\00\00\19!\00\00\811\00\00\1a!\00\00\a11\00\00\1b!\00\00\c11\00\00\1c!\00\00\e11\00\00\1d!\00\00\012\00\00 !\00\00\"2\00\00!!\00\00c2\00\00\"!\00\00\c22\00\00$!\00\00\013\00\00(!\00\00!3\00\00,!\00\00A3\00\00-!\00\00a3\00\00/!\00\00\813\00\000!\00\00\a13\00\001!\00\00\c13\00\003!\00\00\e13\00\004!\00\00\014\00\005!\00\00!4\00\006!\00\00A4\00\007!\00\00a4\00\008!\00\00\814\00\009!\00\00\a14\00\00;!\00\00\c34\00\00<!\00\00!5\00\00=!\00\00A5\00\00>!\00\00a5\00\00?!\00\00\815\00\00@!\00\00\a15\00\00E!\00\00\c15\00\00F!\00\00\e15\00\00G!\00\00\016\00\00H!\00\00!6\00\00I!\00\00A6\00\00P!\00\00c6\00\00Q!\00\00\c36\00\00R!\00\00$7\00\00S!\00\00\a37\00\00T!\00\00\038\00\00U!\00\00c8\00\00V!\00\00\c38\00\00W!\00\00#9\00\00X!\00\00\839\00\00Y!\00\00\e39\00\00Z!\00\00C:\00\00[!\00\00\a3:\00\00\\!\00\00\03;\00\00]!\00\00c;\00\00^!\00\00\c3;\00\00_!\00\00\"<\00\00`!\00\00a<\00\00a!\00\00\82<\00\00b!\00\00\c3<\00\00c!\00\00\"=\00\00d!\00\00a=\00\00e!\00\00\82=\00\00f!\00\00\c3=\00\00g!\00\00$>\00\00h!\00\00\a2>\00\00i!\00\00\e1>\00\00j!\00\00\02?\00\00k!\00\00C?\00\00l!\00\00\a1?\00\00m!\00\00\c1?\00\00n!\00\00\e1?\00\00o!\00\00\01@\00\00p!\00\00!@\00\00q!\00\00B@\00\00r!\00\00\83@\00\00s!\00\00\e2@\00\00t!\00\00!A\00\00u!\00\00BA\00\00v!\00\00\83A\00\00w!\00\00\e4A\00\00x!\00\00bB\00\00y!\00\00\a1B\00\00z!\00\00\c2B\00\00{!\00\00\03C\00\00|!\00\00aC\00\00}!\00\00\81C\00\00~!\00\00\a1C\00\00\7f!\00\00\c1C\00\00\89!\00\00\e3C\00\00,\"\00\00BD\00\00-\"\00\00\83D\00\00/\"\00\00\e2D\00\000\"\00\00#E\00\00`$\00\00\81E\00\00a$\00\00\a1E\00\00b$\00\00\c1E\00\00c$\00\00\e1E\00\00d$\00\00\01F\00\00e$\00\00!F\00\00f$\00\00AF\00\00g$\00\00aF\00\00h$\00\00\81F\00\00i$\00\00\a2F\00\00j$\00\00\e2F\00\00k$\00\00\"G\00\00l$\00\00bG\00\00m$\00\00\a2G\00\00n$\00\00\e2G\00\00o$\00\00\"H\00\00p$\00\00bH\00\00q$\00\00\a2H\00\00r$\00\00\e2H\00\00s$\00\00\"I\00\00t$\00\00cI\00\00u$\00\00\c3I\00\00v$\00\00#J\00\00w$\00\00\83J\00\00x$\00\00\e3J\00\00y$\00\00CK\00\00z$\00\00\a3K\00\00{$\00\00\03L\00\00|$\00\00cL\00\00}$\00\00\c4L\00\00~$\00\00DM\00\00\7f$\00\00\c4M\00\00\80$\00\00DN\00\00\81$\00\00\c4N\00\00\82$\00\00DO\00\00\83$\00\00\c4O\00\00\84$\00\00DP\00\00\85$\00\00\c4P\00\00\86$\00\00DQ\00\00\87$\00\00\c4Q\00\00\88$\00\00BR\00\00\89$\00\00\82R\00\00\8a$\00\00\c2R\00\00\8b$\00\00\02S\00\00\8c$\00\00BS\00\00\8d$\00\00\82S\00\00\8e$\00\00\c2S\00\00\8f$\00\00\02T\00\00\90$\00\00BT\00\00\91$\00\00\83T\00\00\92$\00\00\e3T\00\00\93$\00\00CU\00\00\94$\00\00\a3U\00\00\95$\00\00\03V\00\00\96$\00\00cV\00\00\97$\00\00\c3V\00\00\98$\00\00#W\00\00\99$\00\00\83W\00\00\9a$\00\00\e3W\00\00\9b$\00\00CX\00\00\9c$\00\00\a3X\00\00\9d$\00\00\03Y\00\00\9e$\00\00cY\00\00\9f$\00\00\c3Y\00\00\a0$\00\00#Z\00\00\a1$\00\00\83Z\00\00\a2$\00\00\e3Z\00\00\a3$\00\00C[\00\00\a4$\00\00\a3[\00\00\a5$\00\00\03\\\00\00\a6$\00\00c\\\00\00\a7$\00\00\c3\\\00\00\a8$\00\00#]\00\00\a9$\00\00\83]\00\00\aa$\00\00\e3]\00\00\ab$\00\00C^\00\00\ac$\00\00\a3^\00\00\ad$\00\00\03_\00\00\ae$\00\00c_\00\00\af$\00\00\c3_\00\00\b0$\00\00#`\00\00\b1$\00\00\83`\00\00\b2$\00\00\e3`\00\00\b3$\00\00Ca\00\00\b4$\00\00\a3a\00\00\b5$\00\00\03b\00\00\b6$\00\00ab\00\00\b7$\00\00\81b\00\00\b8$\00\00\a1b\00\00\b9$\00\00\c1b\00\00\ba$\00\00\e1b\00\00\bb$\00\00\01c\00\00\bc$\00\00!c\00\00\bd$\00\00Ac\00\00\be$\00\00ac\00\00\bf$\00\00\81c\00\00\c0$\00\00\a1c\00\00\c1$\00\00\c1c\00\00\c2$\00\00\e1c\00\00\c3$\00\00\01d\00\00\c4$\00\00!d\00\00\c5$\00\00Ad\00\00\c6$\00\00ad\00\00\c7$\00\00\81d\00\00\c8$\00\00\a1d\00\00\c9$\00\00\c1d\00\00\ca$\00\00\e1d\00\00\cb$\00\00\01e\00\00\cc$\00\00!e\00\00\cd$\00\00Ae\00\00\ce$\00\00ae\00\00\cf$\00\00\81e\00\00\d0$\00\00\a1e\00\00\d1$\00\00\c1e\00\00\d2$\00\00\e1e\00\00\d3$\00\00\01f\00\00\d4$\00\00!f\00\00\d5$\00\00Af\00\00\d6$\00\00af\00\00\d7$\00\00\81f\00\00\d8$\00\00\a1f\00\00\d9$\00\00\c1f\00\00\da$\00\00\e1f\00\00\db$\00\00\01g\00\00\dc$\00\00!g\00\00\dd$\00\00Ag\00\00\de$\00\00ag\00\00\df$\00\00\81g\00\00\e0$\00\00\a1g\00\00\e1$\00\00\c1g\00\00\e2$\00\00\e1g\00\00\e3$\00\00\01h\00\00\e4$\00\00!h\00\00\e5$\00\00Ah\00\00\e6$\00\00ah\00\00\e7$\00\00\81h\00\00\e8$\00\00\a1h\00\00\e9$\00\00\c1h\00\00\ea$\00\00\e1h\00\00\0c*\00\00\04i\00\00t*\00\00\83i\00\00u*\00\00\e2i\00\00v*\00\00#j\00\00|,\00\00\81j\00\00},\00\00\a1j\00\00o-\00\00\c1j\00\00\9f.\00\00\e1j\00\00\f3.\00\00\01k\00\00\00/\00\00!k\00\00\01/\00\00Ak\00\00\02/\00\00ak\00\00\03/\00\00\81k\00\00\04/\00\00\a1k\00\00\05/\00\00\c1k\00\00\06/\00\00\e1k\00\00\07/\00\00\01l\00\00\08/\00\00!l\00\00\t/\00\00Al\00\00\n/\00\00al\00\00\0b/\00\00\81l\00\00\0c/\00\00\a1l\00\00\0d/\00\00\c1l\00\00\0e/\00\00\e1l\00\00\0f/\00\00\01m\00\00\10/\00\00!m\00\00\11/\00\00Am\00\00\12/\00\00am\00\00\13/\00\00\81m\00\00\14/\00\00\a1m\00\00\15/\00\00\c1m\00\00\16/\00\00\e1m\00\00\17/\00\00\01n\00\00\18/\00\00!n\00\00\19/\00\00An\00\00\1a/\00\00an\00\00\1b/\00\00\81n\00\00\1c/\00\00\a1n\00\00\1d/\00\00\c1n\00\00\1e/\00\00\e1n\00\00\1f/\00\00\01o\00\00 /\00\00!o\00\00!/\00\00Ao\00\00\"/\00\00ao\00\00#/\00\00\81o\00\00$/\00\00\a1o\00\00%/\00\00\c1o\00\00&/\00\00\e1o\00\00\'/\00\00\01p\00\00(/\00\00!p\00\00)/\00\00Ap\00\00*/\00\00ap\00\00+/\00\00\81p\00\00,/\00\00\a1p\00\00-/\00\00\c1p\00\00./\00\00\e1p\00\00//\00\00\01q\00\000/\00\00!q\00\001/\00\00Aq\00\002/\00\00aq\00\003/\00\00\81q\00\004/\00\00\a1q\00\005/\00\00\c1q\00\006/\00\00\e1q\00\007/\00\00\01r\00\008/\00\00!r\00\009/\00\00Ar\00\00:/\00\00ar\00\00;/\00\00\81r\00\00</\00\00\a1r\00\00=/\00\00\c1r\00\00>/\00\00\e1r\00\00?/\00\00\01s\00\00@/\00\00!s\00\00A/\00\00As\00\00B/\00\00as\00\00C/\00\00\81s\00\00D/\00\00\a1s\00\00E/\00\00\c1s\00\00F/\00\00\e1s\00\00G/\00\00\01t\00\00H/\00\00!t\00\00I/\00\00At\00\00J/\00\00at\00\00K/\00\00\81t\00\00L/\00\00\a1t\00\00M/\00\00\c1t\00\00N/\00\00\e1t\00\00O/\00\00\01u\00\00P/\00\00!u\00\00Q/\00\00Au\00\00R/\00\00au\00\00S/\00\00\81u\00\00T/\00\00\a1u\00\00U/\00\00\c1u\00\00V/\00\00\e1u\00\00W/\00\00\01v\00\00X/\00\00!v\00\00Y/\00\00Av\00\00Z/\00\00av\00\00[/\00\00\81v\00\00\\/\00\00\a1v\00\00]/\00\00\c1v\00\00^/\00\00\e1v\00\00_/\00\00\01w\00\00`/\00\00!w\00\00a/\00\00Aw\00\00b/\00\00aw\00\00c/\00\00\81w\00\00d/\00\00\a1w\00\00e/\00\00\c1w\00\00f/\00\00\e1w\00\00g/\00\00\01x\00\00h/\00\00!x\00\00i/\00\00Ax\00\00j/\00\00ax\00\00k/\00\00\81x\00\00l/\00\00\a1x\00\00m/\00\00\c1x\00\00n/\00\00\e1x\00\00o/\00\00\01y\00\00p/\00\00!y\00\00q/\00\00Ay\00\00r/\00\00ay\00\00s/\00\00\81y\00\00t/\00\00\a1y\00\00u/\00\00\c1y\00\00v/\00\00\e1y\00\00w/\00\00\01z\00\00x/\00\00!z\00\00y/\00\00Az\00\00z/\00\00az\00\00{/\00\00\81z\00\00|/\00\00\a1z\00\00}/\00\00\c1z\00\00~/\00\00\e1z\00\00\7f/\00\00\01{\00\00\80/\00\00!{\00\00\81/\00\00A{\00\00\82/\00\00a{\00\00\83/\00\00\81{\00\00\84/\00\00\a1{\00\00\85/\00\00\c1{\00\00\86/\00\00\e1{\00\00\87/\00\00\01|\00\00\88/\00\00!|\00\00\89/\00\00A|\00\00\8a/\00\00a|\00\00\8b/\00\00\81|\00\00\8c/\00\00\a1|\00\00\8d/\00\00\c1|\00\00\8e/\00\00\e1|\00\00\8f/\00\00\01}\00\00\90/\00\00!}\00\00\91/\00\00A}\00\00\92/\00\00a}\00\00\93/\00\00\81}\00\00\94/\00\00\a1}\00\00\95/\00\00\c1}\00\00\96/\00\00\e1}\00\00\97/\00\00\01~\00\00\98/\00\00!~\00\00\99/\00\00A~\00\00\9a/\00\00a~\00\00\9b/\00\00\81~\00\00\9c/\00\00\a1~\00\00\9d/\00\00\c1~\00\00\9e/\00\00\e1~\00\00\9f/\00\00\01\7f\00\00\a0/\00\00!\7f\00\00\a1/\00\00A\7f\00\00\a2/\00\00a\7f\00\00\a3/\00\00\81\7f\00\00\a4/\00\00\a1\7f\00\00\a5/\00\00\c1\7f\00\00\a6/\00\00\e1\7f\00\00\a7/\00\00\01\80\00\00\a8/\00\00!\80\00\00\a9/\00\00A\80\00\00\aa/\00\00a\80\00\00\ab/\00\00\81\80\00\00\ac/\00\00\a1\80\00\00\ad/\00\00\c1\80\00\00\ae/\00\00\e1\80\00\00\af/\00\00\01\81\00\00\b0/\00\00!\81\00\00\b1/\00\00A\81\00\00\b2/\00\00a\81\00\00\b3/\00\00\81\81\00\00\b4/\00\00\a1\81\00\00\b5/\00\00\c1\81\00\00\b6/\00\00\e1\81\00\00\b7/\00\00\01\82\00\00\b8/\00\00!\82\00\00\b9/\00\00A\82\00\00\ba/\00\00a\82\00\00\bb/\00\00\81\82\00\00\bc/\00\00\a1\82\00\00\bd/\00\00\c1\82\00\00\be/\00\00\e1\82\00\00\bf/\00\00\01\83\00\00\c0/\00\00!\83\00\00\c1/\00\00A\83\00\00\c2/\00\00a\83\00\00\c3/\00\00\81\83\00\00\c4/\00\00\a1\83\00\00\c5/\00\00\c1\83\00\00\c6/\00\00\e1\83\00\00\c7/\00\00\01\84\00\00\c8/\00\00!\84\00\00\c9/\00\00A\84\00\00\ca/\00\00a\84\00\00\cb/\00\00\81\84\00\00\cc/\00\00\a1\84\00\00\cd/\00\00\c1\84\00\00\ce/\00\00\e1\84\00\00\cf/\00\00\01\85\00\00\d0/\00\00!\85\00\00\d1/\00\00A\85\00\00\d2/\00\00a\85\00\00\d3/\00\00\81\85\00\00\d4/\00\00\a1\85\00\00\d5/\00\00\c1\85\00\00\000\00\00\e1\85\00\0060\00\00\01\86\00\0080\00\00!\86\00\0090\00\00A\86\00\00:0\00\00a\86\00\00\9b0\00\00\82\86\00\00\9c0\00\00\c2\86\00\00\9f0\00\00\02\87\00\00\ff0\00\00B\87\00\0011\00\00\81\87\00\0021\00\00\a1\87\00\0031\00\00\c1\87\00\0041\00\00\e1\87\00\0051\00\00\01\88\00\0061\00\00!\88\00\0071\00\00A\88\00\0081\00\00a\88\00\0091\00\00\81\88\00\00:1\00\00\a1\88\00\00;1\00\00\c1\88\00\00<1\00\00\e1\88\00\00=1\00\00\01\89\00\00>1\00\00!\89\00\00?1\00\00A\89\00\00@1\00\00a\89\00\00A1\00\00\81\89\00\00B1\00\00\a1\89\00\00C1\00\00\c1\89\00\00D1\00\00\e1\89\00\00E1\00\00\01\8a\00\00F1\00\00!\8a\00\00G1\00\00A\8a\00\00H1\00\00a\8a\00\00I1\00\00\81\8a\00\00J1\00\00\a1\8a\00\00K1\00\00\c1\8a\00\00L1\00\00\e1\8a\00\00M1\00\00\01\8b\00\00N1\00\00!\8b\00\00O1\00\00A\8b\00\00P1\00\00a\8b\00\00Q1\00\00\81\8b\00\00R1\00\00\a1\8b\00\00S1\00\00\c1\8b\00\00T1\00\00\e1\8b\00\00U1\00\00\01\8c\00\00V1\00\00!\8c\00\00W1\00\00A\8c\00\00X1\00\00a\8c\00\00Y1\00\00\81\8c\00\00Z1\00\00\a1\8c\00\00[1\00\00\c1\8c\00\00\\1\00\00\e1\8c\00\00]1\00\00\01\8d\00\00^1\00\00!\8d\00\00_1\00\00A\8d\00\00`1\00\00a\8d\00\00a1\00\00\81\8d\00\00b1\00\00\a1\8d\00\00c1\00\00\c1\8d\00\00d1\00\00\e1\8d\00\00e1\00\00\01\8e\00\00f1\00\00!\8e\00\00g1\00\00A\8e\00\00h1\00\00a\8e\00\00i1\00\00\81\8e\00\00j1\00\00\a1\8e\00\00k1\00\00\c1\8e\00\00l1\00\00\e1\8e\00\00m1\00\00\01\8f\00\00n1\00\00!\8f\00\00o1\00\00A\8f\00\00p1\00\00a\8f\00\00q1\00\00\81\8f\00\00r1\00\00\a1\8f\00\00s1\00\00\c1\8f\00\00t1\00\00\e1\8f\00\00u1\00\00\01\90\00\00v1\00\00!\90\00\00w1\00\00A\90\00\00x1\00\00a\90\00\00y1\00\00\81\90\00\00z1\00\00\a1\90\00\00{1\00\00\c1\90\00\00|1\00\00\e1\90\00\00}1\00\00\01\91\00\00~1\00\00!\91\00\00\7f1\00\00A\91\00\00\801\00\00a\91\00\00\811\00\00\81\91\00\00\821\00\00\a1\91\00\00\831\00\00\c1\91\00\00\841\00\00\e1\91\00\00\851\00\00\01\92\00\00\861\00\00!\92\00\00\871\00\00A\92\00\00\881\00\00a\92\00\00\891\00\00\81\92\00\00\8a1\00\00\a1\92\00\00\8b1\00\00\c1\92\00\00\8c1\00\00\e1\92\00\00\8d1\00\00\01\93\00\00\8e1\00\00!\93\00\00\921\00\00A\93\00\00\931\00\00a\93\00\00\941\00\00\81\93\00\00\951\00\00\a1\93\00\00\961\00\00\c1\93\00\00\971\00\00\e1\93\00\00\981\00\00\01\94\00\00\991\00\00!\94\00\00\9a1\00\00A\94\00\00\9b1\00\00a\94\00\00\9c1\00\00\81\94\00\00\9d1\00\00\a1\94\00\00\9e1\00\00\c1\94\00\00\9f1\00\00\e1\94\00\00\002\00\00\03\95\00\00\012\00\00c\95\00\00\022\00\00\c3\95\00\00\032\00\00#\96\00\00\042\00\00\83\96\00\00\052\00\00\e3\96\00\00\062\00\00C\97\00\00\072\00\00\a3\97\00\00\082\00\00\03\98\00\00\t2\00\00c\98\00\00\n2\00\00\c3\98\00\00\0b2\00\00#\99\00\00\0c2\00\00\83\99\00\00\0d2\00\00\e3\99\00\00\0e2\00\00D\9a\00\00\0f2\00\00\c4\9a\00\00\102\00\00D\9b\00\00\112\00\00\c4\9b\00\00\122\00\00D\9c\00\00\132\00\00\c4\9c\00\00\142\00\00D\9d\00\00\152\00\00\c4\9d\00\00\162\00\00D\9e\00\00\172\00\00\c4\9e\00\00\182\00\00D\9f\00\00\192\00\00\c4\9f\00\00\1a2\00\00D\a0\00\00\1b2\00\00\c4\a0\00\00\1c2\00\00D\a1\00\00\1d2\00\00\c7\a1\00\00\1e2\00\00\a6\a2\00\00 2\00\00c\a3\00\00!2\00\00\c3\a3\00\00\"2\00\00#\a4\00\00#2\00\00\83\a4\00\00$2\00\00\e3\a4\00\00%2\00\00C\a5\00\00&2\00\00\a3\a5\00\00\'2\00\00\03\a6\00\00(2\00\00c\a6\00\00)2\00\00\c3\a6\00\00*2\00\00#\a7\00\00+2\00\00\83\a7\00\00,2\00\00\e3\a7\00\00-2\00\00C\a8\00\00.2\00\00\a3\a8\00\00/2\00\00\03\a9\00\0002\00\00c\a9\00\0012\00\00\c3\a9\00\0022\00\00#\aa\00\0032\00\00\83\aa\00\0042\00\00\e3\aa\00\0052\00\00C\ab\00\0062\00\00\a3\ab\00\0072\00\00\03\ac\00\0082\00\00c\ac\00\0092\00\00\c3\ac\00\00:2\00\00#\ad\00\00;2\00\00\83\ad\00\00<2\00\00\e3\ad\00\00=2\00\00C\ae\00\00>2\00\00\a3\ae\00\00?2\00\00\03\af\00\00@2\00\00c\af\00\00A2\00\00\c3\af\00\00B2\00\00#\b0\00\00C2\00\00\83\b0\00\00D2\00\00\e1\b0\00\00E2\00\00\01\b1\00\00F2\00\00!\b1\00\00G2\00\00A\b1\00\00P2\00\00c\b1\00\00Q2\00\00\c2\b1\00\00R2\00\00\02\b2\00\00S2\00\00B\b2\00\00T2\00\00\82\b2\00\00U2\00\00\c2\b2\00\00V2\00\00\02\b3\00\00W2\00\00B\b3\00\00X2\00\00\82\b3\00\00Y2\00\00\c2\b3\00\00Z2\00\00\02\b4\00\00[2\00\00B\b4\00\00\\2\00\00\82\b4\00\00]2\00\00\c2\b4\00\00^2\00\00\02\b5\00\00_2\00\00B\b5\00\00`2\00\00\81\b5\00\00a2\00\00\a1\b5\00\00b2\00\00\c1\b5\00\00c2\00\00\e1\b5\00\00d2\00\00\01\b6\00\00e2\00\00!\b6\00\00f2\00\00A\b6\00\00g2\00\00a\b6\00\00h2\00\00\81\b6\00\00i2\00\00\a1\b6\00\00j2\00\00\c1\b6\00\00k2\00\00\e1\b6\00\00l2\00\00\01\b7\00\00m2\00\00!\b7\00\00n2\00\00B\b7\00\00o2\00\00\82\b7\00\00p2\00\00\c2\b7\00\00q2\00\00\02\b8\00\00r2\00\00B\b8\00\00s2\00\00\82\b8\00\00t2\00\00\c2\b8\00\00u2\00\00\02\b9\00\00v2\00\00B\b9\00\00w2\00\00\82\b9\00\00x2\00\00\c2\b9\00\00y2\00\00\02\ba\00\00z2\00\00B\ba\00\00{2\00\00\82\ba\00\00|2\00\00\c5\ba\00\00}2\00\00d\bb\00\00~2\00\00\e2\bb\00\00\802\00\00!\bc\00\00\812\00\00A\bc\00\00\822\00\00a\bc\00\00\832\00\00\81\bc\00\00\842\00\00\a1\bc\00\00\852\00\00\c1\bc\00\00\862\00\00\e1\bc\00\00\872\00\00\01\bd\00\00\882\00\00!\bd\00\00\892\00\00A\bd\00\00\8a2\00\00a\bd\00\00\8b2\00\00\81\bd\00\00\8c2\00\00\a1\bd\00\00\8d2\00\00\c1\bd\00\00\8e2\00\00\e1\bd\00\00\8f2\00\00\01\be\00\00\902\00\00!\be\00\00\912\00\00A\be\00\00\922\00\00a\be\00\00\932\00\00\81\be\00\00\942\00\00\a1\be\00\00\952\00\00\c1\be\00\00\962\00\00\e1\be\00\00\972\00\00\01\bf\00\00\982\00\00!\bf\00\00\992\00\00A\bf\00\00\9a2\00\00a\bf\00\00\9b2\00\00\81\bf\00\00\9c2\00\00\a1\bf\00\00\9d2\00\00\c1\bf\00\00\9e2\00\00\e1\bf\00\00\9f2\00\00\01\c0\00\00\a02\00\00!\c0\00\00\a12\00\00A\c0\00\00\a22\00\00a\c0\00\00\a32\00\00\81\c0\00\00\a42\00\00\a1\c0\00\00\a52\00\00\c1\c0\00\00\a62\00\00\e1\c0\00\00\a72\00\00\01\c1\00\00\a82\00\00!\c1\00\00\a92\00\00A\c1\00\00\aa2\00\00a\c1\00\00\ab2\00\00\81\c1\00\00\ac2\00\00\a1\c1\00\00\ad2\00\00\c1\c1\00\00\ae2\00\00\e1\c1\00\00\af2\00\00\01\c2\00\00\b02\00\00!\c2\00\00\b12\00\00B\c2\00\00\b22\00\00\82\c2\00\00\b32\00\00\c2\c2\00\00\b42\00\00\02\c3\00\00\b52\00\00B\c3\00\00\b62\00\00\82\c3\00\00\b72\00\00\c2\c3\00\00\b82\00\00\02\c4\00\00\b92\00\00B\c4\00\00\ba2\00\00\82\c4\00\00\bb2\00\00\c2\c4\00\00\bc2\00\00\02\c5\00\00\bd2\00\00B\c5\00\00\be2\00\00\82\c5\00\00\bf2\00\00\c2\c5\00\00\c02\00\00\02\c6\00\00\c12\00\00B\c6\00\00\c22\00\00\82\c6\00\00\c32\00\00\c2\c6\00\00\c42\00\00\02\c7\00\00\c52\00\00B\c7\00\00\c62\00\00\82\c7\00\00\c72\00\00\c2\c7\00\00\c82\00\00\02\c8\00\00\c92\00\00C\c8\00\00\ca2\00\00\a3\c8\00\00\cb2\00\00\03\c9\00\00\cc2\00\00b\c9\00\00\cd2\00\00\a3\c9\00\00\ce2\00\00\02\ca\00\00\cf2\00\00C\ca\00\00\d02\00\00\a1\ca\00\00\d12\00\00\c1\ca\00\00\d22\00\00\e1\ca\00\00\d32\00\00\01\cb\00\00\d42\00\00!\cb\00\00\d52\00\00A\cb\00\00\d62\00\00a\cb\00\00\d72\00\00\81\cb\00\00\d82\00\00\a1\cb\00\00\d92\00\00\c1\cb\00\00\da2\00\00\e1\cb\00\00\db2\00\00\01\cc\00\00\dc2\00\00!\cc\00\00\dd2\00\00A\cc\00\00\de2\00\00a\cc\00\00\df2\00\00\81\cc\00\00\e02\00\00\a1\cc\00\00\e12\00\00\c1\cc\00\00\e22\00\00\e1\cc\00\00\e32\00\00\01\cd\00\00\e42\00\00!\cd\00\00\e52\00\00A\cd\00\00\e62\00\00a\cd\00\00\e72\00\00\81\cd\00\00\e82\00\00\a1\cd\00\00\e92\00\00\c1\cd\00\00\ea2\00\00\e1\cd\00\00\eb2\00\00\01\ce\00\00\ec2\00\00!\ce\00\00\ed2\00\00A\ce\00\00\ee2\00\00a\ce\00\00\ef2\00\00\81\ce\00\00\f02\00\00\a1\ce\00\00\f12\00\00\c1\ce\00\00\f22\00\00\e1\ce\00\00\f32\00\00\01\cf\00\00\f42\00\00!\cf\00\00\f52\00\00A\cf\00\00\f62\00\00a\cf\00\00\f72\00\00\81\cf\00\00\f82\00\00\a1\cf\00\00\f92\00\00\c1\cf\00\00\fa2\00\00\e1\cf\00\00\fb2\00\00\01\d0\00\00\fc2\00\00!\d0\00\00\fd2\00\00A\d0\00\00\fe2\00\00a\d0\00\00\ff2\00\00\82\d0\00\00\003\00\00\c5\d0\00\00\013\00\00d\d1\00\00\023\00\00\e5\d1\00\00\033\00\00\83\d2\00\00\043\00\00\e5\d2\00\00\053\00\00\83\d3\00\00\063\00\00\e3\d3\00\00\073\00\00F\d4\00\00\083\00\00\04\d5\00\00\t3\00\00\83\d5\00\00\n3\00\00\e3\d5\00\00\0b3\00\00C\d6\00\00\0c3\00\00\a4\d6\00\00\0d3\00\00$\d7\00\00\0e3\00\00\a4\d7\00\00\0f3\00\00$\d8\00\00\103\00\00\a4\d8\00\00\113\00\00$\d9\00\00\123\00\00\a4\d9\00\00\133\00\00&\da\00\00\143\00\00\e2\da\00\00\153\00\00&\db\00\00\163\00\00\e6\db\00\00\173\00\00\a5\dc\00\00\183\00\00D\dd\00\00\193\00\00\c6\dd\00\00\1a3\00\00\86\de\00\00\1b3\00\00D\df\00\00\1c3\00\00\c3\df\00\00\1d3\00\00#\e0\00\00\1e3\00\00\84\e0\00\00\1f3\00\00\04\e1\00\00 3\00\00\85\e1\00\00!3\00\00%\e2\00\00\"3\00\00\c3\e2\00\00#3\00\00#\e3\00\00$3\00\00\84\e3\00\00%3\00\00\03\e4\00\00&3\00\00c\e4\00\00\'3\00\00\c2\e4\00\00(3\00\00\02\e5\00\00)3\00\00C\e5\00\00*3\00\00\a3\e5\00\00+3\00\00\06\e6\00\00,3\00\00\c4\e6\00\00-3\00\00E\e7\00\00.3\00\00\e6\e7\00\00/3\00\00\a4\e8\00\0003\00\00#\e9\00\0013\00\00\83\e9\00\0023\00\00\e6\e9\00\0033\00\00\a4\ea\00\0043\00\00&\eb\00\0053\00\00\e3\eb\00\0063\00\00E\ec\00\0073\00\00\e3\ec\00\0083\00\00D\ed\00\0093\00\00\c3\ed\00\00:3\00\00$\ee\00\00;3\00\00\a5\ee\00\00<3\00\00D\ef\00\00=3\00\00\c5\ef\00\00>3\00\00d\f0\00\00?3\00\00\e2\f0\00\00@3\00\00%\f1\00\00A3\00\00\c3\f1\00\00B3\00\00#\f2\00\00C3\00\00\84\f2\00\00D3\00\00\03\f3\00\00E3\00\00c\f3\00\00F3\00\00\c3\f3\00\00G3\00\00%\f4\00\00H3\00\00\c4\f4\00\00I3\00\00B\f5\00\00J3\00\00\86\f5\00\00K3\00\00C\f6\00\00L3\00\00\a5\f6\00\00M3\00\00D\f7\00\00N3\00\00\c4\f7\00\00O3\00\00C\f8\00\00P3\00\00\a3\f8\00\00Q3\00\00\04\f9\00\00R3\00\00\82\f9\00\00S3\00\00\c4\f9\00\00T3\00\00E\fa\00\00U3\00\00\e2\fa\00\00V3\00\00&\fb\00\00W3\00\00\e3\fb\00\00X3\00\00B\fc\00\00Y3\00\00\82\fc\00\00Z3\00\00\c2\fc\00\00[3\00\00\02\fd\00\00\\3\00\00B\fd\00\00]3\00\00\82\fd\00\00^3\00\00\c2\fd\00\00_3\00\00\02\fe\00\00`3\00\00B\fe\00\00a3\00\00\82\fe\00\00b3\00\00\c3\fe\00\00c3\00\00#\ff\00\00d3\00\00\83\ff\00\00e3\00\00\e3\ff\00\00f3\00\00C\00\01\00g3\00\00\a3\00\01\00h3\00\00\03\01\01\00i3\00\00c\01\01\00j3\00\00\c3\01\01\00k3\00\00#\02\01\00l3\00\00\83\02\01\00m3\00\00\e3\02\01\00n3\00\00C\03\01\00o3\00\00\a3\03\01\00p3\00\00\03\04\01\00q3\00\00c\04\01\00r3\00\00\c2\04\01\00s3\00\00\02\05\01\00t3\00\00C\05\01\00u3\00\00\a2\05\01\00v3\00\00\e2\05\01\00w3\00\00\"\06\01\00x3\00\00c\06\01\00y3\00\00\c3\06\01\00z3\00\00\"\07\01\00{3\00\00b\07\01\00|3\00\00\a2\07\01\00}3\00\00\e2\07\01\00~3\00\00\"\08\01\00\7f3\00\00d\08\01\00\803\00\00\e2\08\01\00\813\00\00\"\t\01\00\823\00\00b\t\01\00\833\00\00\a2\t\01\00\843\00\00\e2\t\01\00\853\00\00\"\n\01\00\863\00\00b\n\01\00\873\00\00\a2\n\01\00\883\00\00\e3\n\01\00\893\00\00D\0b\01\00\8a3\00\00\c2\0b\01\00\8b3\00\00\02\0c\01\00\8c3\00\00B\0c\01\00\8d3\00\00\82\0c\01\00\8e3\00\00\c2\0c\01\00\8f3\00\00\02\0d\01\00\903\00\00B\0d\01\00\913\00\00\83\0d\01\00\923\00\00\e3\0d\01\00\933\00\00C\0e\01\00\943\00\00\a3\0e\01\00\953\00\00\02\0f\01\00\963\00\00B\0f\01\00\973\00\00\82\0f\01\00\983\00\00\c2\0f\01\00\993\00\00\02\10\01\00\9a3\00\00B\10\01\00\9b3\00\00\82\10\01\00\9c3\00\00\c2\10\01\00\9d3\00\00\02\11\01\00\9e3\00\00B\11\01\00\9f3\00\00\83\11\01\00\a03\00\00\e3\11\01\00\a13\00\00B\12\01\00\a23\00\00\83\12\01\00\a33\00\00\e3\12\01\00\a43\00\00C\13\01\00\a53\00\00\a2\13\01\00\a63\00\00\e3\13\01\00\a73\00\00C\14\01\00\a83\00\00\a4\14\01\00\a93\00\00\"\15\01\00\aa3\00\00c\15\01\00\ab3\00\00\c3\15\01\00\ac3\00\00#\16\01\00\ad3\00\00\83\16\01\00\ae3\00\00\e5\16\01\00\af3\00\00\86\17\01\00\b03\00\00B\18\01\00\b13\00\00\82\18\01\00\b23\00\00\c2\18\01\00\b33\00\00\02\19\01\00\b43\00\00B\19\01\00\b53\00\00\82\19\01\00\b63\00\00\c2\19\01\00\b73\00\00\02\1a\01\00\b83\00\00B\1a\01\00\b93\00\00\82\1a\01\00\ba3\00\00\c2\1a\01\00\bb3\00\00\02\1b\01\00\bc3\00\00B\1b\01\00\bd3\00\00\82\1b\01\00\be3\00\00\c2\1b\01\00\bf3\00\00\02\1c\01\00\c03\00\00B\1c\01\00\c13\00\00\82\1c\01\00\c23\00\00\c4\1c\01\00\c33\00\00B\1d\01\00\c43\00\00\82\1d\01\00\c53\00\00\c2\1d\01\00\c63\00\00\04\1e\01\00\c73\00\00\83\1e\01\00\c83\00\00\e2\1e\01\00\c93\00\00\"\1f\01\00\ca3\00\00b\1f\01\00\cb3\00\00\a2\1f\01\00\cc3\00\00\e2\1f\01\00\cd3\00\00\" \01\00\ce3\00\00b \01\00\cf3\00\00\a2 \01\00\d03\00\00\e2 \01\00\d13\00\00\"!\01\00\d23\00\00c!\01\00\d33\00\00\c2!\01\00\d43\00\00\02\"\01\00\d53\00\00C\"\01\00\d63\00\00\a3\"\01\00\d73\00\00\02#\01\00\d83\00\00D#\01\00\d93\00\00\c3#\01\00\da3\00\00\"$\01\00\db3\00\00b$\01\00\dc3\00\00\a2$\01\00\dd3\00\00\e2$\01\00\de3\00\00#%\01\00\df3\00\00\83%\01\00\e03\00\00\e2%\01\00\e13\00\00\"&\01\00\e23\00\00b&\01\00\e33\00\00\a2&\01\00\e43\00\00\e2&\01\00\e53\00\00\"\'\01\00\e63\00\00b\'\01\00\e73\00\00\a2\'\01\00\e83\00\00\e2\'\01\00\e93\00\00#(\01\00\ea3\00\00\83(\01\00\eb3\00\00\e3(\01\00\ec3\00\00C)\01\00\ed3\00\00\a3)\01\00\ee3\00\00\03*\01\00\ef3\00\00c*\01\00\f03\00\00\c3*\01\00\f13\00\00#+\01\00\f23\00\00\83+\01\00\f33\00\00\e3+\01\00\f43\00\00C,\01\00\f53\00\00\a3,\01\00\f63\00\00\03-\01\00\f73\00\00c-\01\00\f83\00\00\c3-\01\00\f93\00\00#.\01\00\fa3\00\00\83.\01\00\fb3\00\00\e3.\01\00\fc3\00\00C/\01\00\fd3\00\00\a3/\01\00\fe3\00\00\030\01\00\ff3\00\00c0\01\00\9c\a6\00\00\c10\01\00\9d\a6\00\00\e10\01\00p\a7\00\00\011\01\00\f2\a7\00\00!1\01\00\f3\a7\00\00A1\01\00\f4\a7\00\00a1\01\00\f8\a7\00\00\811\01\00\f9\a7\00\00\a11\01\00\\\ab\00\00\c11\01\00]\ab\00\00\e11\01\00^\ab\00\00\012\01\00_\ab\00\00!2\01\00i\ab\00\00A2\01\00\00\fb\00\00b2\01\00\01\fb\00\00\a22\01\00\02\fb\00\00\e22\01\00\03\fb\00\00#3\01\00\04\fb\00\00\833\01\00\05\fb\00\00\e23\01\00\06\fb\00\00\"4\01\00\13\fb\00\00b4\01\00\14\fb\00\00\a24\01\00\15\fb\00\00\e24\01\00\16\fb\00\00\"5\01\00\17\fb\00\00b5\01\00 \fb\00\00\a15\01\00!\fb\00\00\c15\01\00\"\fb\00\00\e15\01\00#\fb\00\00\016\01\00$\fb\00\00!6\01\00%\fb\00\00A6\01\00&\fb\00\00a6\01\00\'\fb\00\00\816\01\00(\fb\00\00\a16\01\00)\fb\00\00\c16\01\00O\fb\00\00\e26\01\00P\fb\00\00!7\01\00Q\fb\00\00A7\01\00R\fb\00\00a7\01\00S\fb\00\00\817\01\00T\fb\00\00\a17\01\00U\fb\00\00\c17\01\00V\fb\00\00\e17\01\00W\fb\00\00\018\01\00X\fb\00\00!8\01\00Y\fb\00\00A8\01\00Z\fb\00\00a8\01\00[\fb\00\00\818\01\00\\\fb\00\00\a18\01\00]\fb\00\00\c18\01\00^\fb\00\00\e18\01\00_\fb\00\00\019\01\00`\fb\00\00!9\01\00a\fb\00\00A9\01\00b\fb\00\00a9\01\00c\fb\00\00\819\01\00d\fb\00\00\a19\01\00e\fb\00\00\c19\01\00f\fb\00\00\e19\01\00g\fb\00\00\01:\01\00h\fb\00\00!:\01\00i\fb\00\00A:\01\00j\fb\00\00a:\01\00k\fb\00\00\81:\01\00l\fb\00\00\a1:\01\00m\fb\00\00\c1:\01\00n\fb\00\00\e1:\01\00o\fb\00\00\01;\01\00p\fb\00\00!;\01\00q\fb\00\00A;\01\00r\fb\00\00a;\01\00s\fb\00\00\81;\01\00t\fb\00\00\a1;\01\00u\fb\00\00\c1;\01\00v\fb\00\00\e1;\01\00w\fb\00\00\01<\01\00x\fb\00\00!<\01\00y\fb\00\00A<\01\00z\fb\00\00a<\01\00{\fb\00\00\81<\01\00|\fb\00\00\a1<\01\00}\fb\00\00\c1<\01\00~\fb\00\00\e1<\01\00\7f\fb\00\00\01=\01\00\80\fb\00\00!=\01\00\81\fb\00\00A=\01\00\82\fb\00\00a=\01\00\83\fb\00\00\81=\01\00\84\fb\00\00\a1=\01\00\85\fb\00\00\c1=\01\00\86\fb\00\00\e1=\01\00\87\fb\00\00\01>\01\00\88\fb\00\00!>\01\00\89\fb\00\00A>\01\00\8a\fb\00\00a>\01\00\8b\fb\00\00\81>\01\00\8c\fb\00\00\a1>\01\00\8d\fb\00\00\c1>\01\00\8e\fb\00\00\e1>\01\00\8f\fb\00\00\01?\01\00\90\fb\00\00!?\01\00\91\fb\00\00A?\01\00\92\fb\00\00a?\01\00\93\fb\00\00\81?\01\00\94\fb\00\00\a1?\01\00\95\fb\00\00\c1?\01\00\96\fb\00\00\e1?\01\00\97\fb\00\00\01@\01\00\98\fb\00\00!@\01\00\99\fb\00\00A@\01\00\9a\fb\00\00a@\01\00\9b\fb\00\00\81@\01\00\9c\fb\00\00\a1@\01\00\9d\fb\00\00\c1@\01\00\9e\fb\00\00\e1@\01\00\9f\fb\00\00\01A\01\00\a0\fb\00\00!A\01\00\a1\fb\00\00AA\01\00\a2\fb\00\00aA\01\00\a3\fb\00\00\81A\01\00\a4\fb\00\00\a2A\01\00\a5\fb\00\00\e2A\01\00\a6\fb\00\00!B\01\00\a7\fb\00\00AB\01\00\a8\fb\00\00aB\01\00\a9\fb\00\00\81B\01\00\aa\fb\00\00\a1B\01\00\ab\fb\00\00\c1B\01\00\ac\fb\00\00\e1B\01\00\ad\fb\00\00\01C\01\00\ae\fb\00\00!C\01\00\af\fb\00\00AC\01\00\b0\fb\00\00bC\01\00\b1\fb\00\00\a2C\01\00\d3\fb\00\00\e1C\01\00\d4\fb\00\00\01D\01\00\d5\fb\00\00!D\01\00\d6\fb\00\00AD\01\00\d7\fb\00\00aD\01\00\d8\fb\00\00\81D\01\00\d9\fb\00\00\a1D\01\00\da\fb\00\00\c1D\01\00\db\fb\00\00\e1D\01\00\dc\fb\00\00\01E\01\00\dd\fb\00\00\"E\01\00\de\fb\00\00aE\01\00\df\fb\00\00\81E\01\00\e0\fb\00\00\a1E\01\00\e1\fb\00\00\c1E\01\00\e2\fb\00\00\e1E\01\00\e3\fb\00\00\01F\01\00\e4\fb\00\00!F\01\00\e5\fb\00\00AF\01\00\e6\fb\00\00aF\01\00\e7\fb\00\00\81F\01\00\e8\fb\00\00\a1F\01\00\e9\fb\00\00\c1F\01\00\ea\fb\00\00\e3F\01\00\eb\fb\00\00CG\01\00\ec\fb\00\00\a3G\01\00\ed\fb\00\00\03H\01\00\ee\fb\00\00cH\01\00\ef\fb\00\00\c3H\01\00\f0\fb\00\00#I\01\00\f1\fb\00\00\83I\01\00\f2\fb\00\00\e3I\01\00\f3\fb\00\00CJ\01\00\f4\fb\00\00\a3J\01\00\f5\fb\00\00\03K\01\00\f6\fb\00\00cK\01\00\f7\fb\00\00\c3K\01\00\f8\fb\00\00#L\01\00\f9\fb\00\00\83L\01\00\fa\fb\00\00\e3L\01\00\fb\fb\00\00CM\01\00\fc\fb\00\00\a1M\01\00\fd\fb\00\00\c1M\01\00\fe\fb\00\00\e1M\01\00\ff\fb\00\00\01N\01\00\00\fc\00\00#N\01\00\01\fc\00\00\83N\01\00\02\fc\00\00\e3N\01\00\03\fc\00\00CO\01\00\04\fc\00\00\a3O\01\00\05\fc\00\00\02P\01\00\06\fc\00\00BP\01\00\07\fc\00\00\82P\01\00\08\fc\00\00\c2P\01\00\t\fc\00\00\02Q\01\00\n\fc\00\00BQ\01\00\0b\fc\00\00\82Q\01\00\0c\fc\00\00\c2Q\01\00\0d\fc\00\00\02R\01\00\0e\fc\00\00BR\01\00\0f\fc\00\00\82R\01\00\10\fc\00\00\c2R\01\00\11\fc\00\00\02S\01\00\12\fc\00\00BS\01\00\13\fc\00\00\82S\01\00\14\fc\00\00\c2S\01\00\15\fc\00\00\02T\01\00\16\fc\00\00BT\01\00\17\fc\00\00\82T\01\00\18\fc\00\00\c2T\01\00\19\fc\00\00\02U\01\00\1a\fc\00\00BU\01\00\1b\fc\00\00\82U\01\00\1c\fc\00\00\c2U\01\00\1d\fc\00\00\02V\01\00\1e\fc\00\00BV\01\00\1f\fc\00\00\82V\01\00 \fc\00\00\c2V\01\00!\fc\00\00\02W\01\00\"\fc\00\00BW\01\00#\fc\00\00\82W\01\00$\fc\00\00\c2W\01\00%\fc\00\00\02X\01\00&\fc\00\00BX\01\00\'\fc\00\00\82X\01\00(\fc\00\00\c2X\01\00)\fc\00\00\02Y\01\00*\fc\00\00BY\01\00+\fc\00\00\82Y\01\00,\fc\00\00\c2Y\01\00-\fc\00\00\02Z\01\00.\fc\00\00BZ\01\00/\fc\00\00\82Z\01\000\fc\00\00\c2Z\01\001\fc\00\00\02[\01\002\fc\00\00B[\01\003\fc\00\00\82[\01\004\fc\00\00\c2[\01\005\fc\00\00\02\\\01\006\fc\00\00B\\\01\007\fc\00\00\82\\\01\008\fc\00\00\c2\\\01\009\fc\00\00\02]\01\00:\fc\00\00B]\01\00;\fc\00\00\82]\01\00<\fc\00\00\c2]\01\00=\fc\00\00\02^\01\00>\fc\00\00B^\01\00?\fc\00\00\82^\01\00@\fc\00\00\c2^\01\00A\fc\00\00\02_\01\00B\fc\00\00B_\01\00C\fc\00\00\82_\01\00D\fc\00\00\c2_\01\00E\fc\00\00\02`\01\00F\fc\00\00B`\01\00G\fc\00\00\82`\01\00H\fc\00\00\c2`\01\00I\fc\00\00\02a\01\00J\fc\00\00Ba\01\00K\fc\00\00\82a\01\00L\fc\00\00\c2a\01\00M\fc\00\00\02b\01\00N\fc\00\00Bb\01\00O\fc\00\00\82b\01\00P\fc\00\00\c2b\01\00Q\fc\00\00\02c\01\00R\fc\00\00Bc\01\00S\fc\00\00\82c\01\00T\fc\00\00\c2c\01\00U\fc\00\00\02d\01\00V\fc\00\00Bd\01\00W\fc\00\00\82d\01\00X\fc\00\00\c2d\01\00Y\fc\00\00\02e\01\00Z\fc\00\00Be\01\00[\fc\00\00\82e\01\00\\\fc\00\00\c2e\01\00]\fc\00\00\02f\01\00^\fc\00\00Cf\01\00_\fc\00\00\a3f\01\00`\fc\00\00\03g\01\00a\fc\00\00cg\01\00b\fc\00\00\c3g\01\00c\fc\00\00#h\01\00d\fc\00\00\83h\01\00e\fc\00\00\e3h\01\00f\fc\00\00Ci\01\00g\fc\00\00\a3i\01\00h\fc\00\00\03j\01\00i\fc\00\00cj\01\00j\fc\00\00\c2j\01\00k\fc\00\00\02k\01\00l\fc\00\00Bk\01\00m\fc\00\00\82k\01\00n\fc\00\00\c2k\01\00o\fc\00\00\02l\01\00p\fc\00\00Bl\01\00q\fc\00\00\82l\01\00r\fc\00\00\c2l\01\00s\fc\00\00\02m\01\00t\fc\00\00Bm\01\00u\fc\00\00\82m\01\00v\fc\00\00\c2m\01\00w\fc\00\00\02n\01\00x\fc\00\00Bn\01\00y\fc\00\00\82n\01\00z\fc\00\00\c2n\01\00{\fc\00\00\02o\01\00|\fc\00\00Bo\01\00}\fc\00\00\82o\01\00~\fc\00\00\c2o\01\00\7f\fc\00\00\02p\01\00\80\fc\00\00Bp\01\00\81\fc\00\00\82p\01\00\82\fc\00\00\c2p\01\00\83\fc\00\00\02q\01\00\84\fc\00\00Bq\01\00\85\fc\00\00\82q\01\00\86\fc\00\00\c2q\01\00\87\fc\00\00\02r\01\00\88\fc\00\00Br\01\00\89\fc\00\00\82r\01\00\8a\fc\00\00\c2r\01\00\8b\fc\00\00\02s\01\00\8c\fc\00\00Bs\01\00\8d\fc\00\00\82s\01\00\8e\fc\00\00\c2s\01\00\8f\fc\00\00\02t\01\00\90\fc\00\00Bt\01\00\91\fc\00\00\82t\01\00\92\fc\00\00\c2t\01\00\93\fc\00\00\02u\01\00\94\fc\00\00Bu\01\00\95\fc\00\00\82u\01\00\96\fc\00\00\c2u\01\00\97\fc\00\00\03v\01\00\98\fc\00\00cv\01\00\99\fc\00\00\c3v\01\00\9a\fc\00\00#w\01\00\9b\fc\00\00\83w\01\00\9c\fc\00\00\e2w\01\00\9d\fc\00\00\"x\01\00\9e\fc\00\00bx\01\00\9f\fc\00\00\a2x\01\00\a0\fc\00\00\e2x\01\00\a1\fc\00\00\"y\01\00\a2\fc\00\00by\01\00\a3\fc\00\00\a2y\01\00\a4\fc\00\00\e2y\01\00\a5\fc\00\00\"z\01\00\a6\fc\00\00bz\01\00\a7\fc\00\00\a2z\01\00\a8\fc\00\00\e2z\01\00\a9\fc\00\00\"{\01\00\aa\fc\00\00b{\01\00\ab\fc\00\00\a2{\01\00\ac\fc\00\00\e2{\01\00\ad\fc\00\00\"|\01\00\ae\fc\00\00b|\01\00\af\fc\00\00\a2|\01\00\b0\fc\00\00\e2|\01\00\b1\fc\00\00\"}\01\00\b2\fc\00\00b}\01\00\b3\fc\00\00\a2}\01\00\b4\fc\00\00\e2}\01\00\b5\fc\00\00\"~\01\00\b6\fc\00\00b~\01\00\b7\fc\00\00\a2~\01\00\b8\fc\00\00\e2~\01\00\b9\fc\00\00\"\7f\01\00\ba\fc\00\00b\7f\01\00\bb\fc\00\00\a2\7f\01\00\bc\fc\00\00\e2\7f\01\00\bd\fc\00\00\"\80\01\00\be\fc\00\00b\80\01\00\bf\fc\00\00\a2\80\01\00\c0\fc\00\00\e2\80\01\00\c1\fc\00\00\"\81\01\00\c2\fc\00\00b\81\01\00\c3\fc\00\00\a2\81\01\00\c4\fc\00\00\e2\81\01\00\c5\fc\00\00\"\82\01\00\c6\fc\00\00b\82\01\00\c7\fc\00\00\a2\82\01\00\c8\fc\00\00\e2\82\01\00\c9\fc\00\00\"\83\01\00\ca\fc\00\00b\83\01\00\cb\fc\00\00\a2\83\01\00\cc\fc\00\00\e2\83\01\00\cd\fc\00\00\"\84\01\00\ce\fc\00\00b\84\01\00\cf\fc\00\00\a2\84\01\00\d0\fc\00\00\e2\84\01\00\d1\fc\00\00\"\85\01\00\d2\fc\00\00b\85\01\00\d3\fc\00\00\a2\85\01\00\d4\fc\00\00\e2\85\01\00\d5\fc\00\00\"\86\01\00\d6\fc\00\00b\86\01\00\d7\fc\00\00\a2\86\01\00\d8\fc\00\00\e2\86\01\00\d9\fc\00\00\"\87\01\00\da\fc\00\00b\87\01\00\db\fc\00\00\a2\87\01\00\dc\fc\00\00\e2\87\01\00\dd\fc\00\00\"\88\01\00\de\fc\00\00b\88\01\00\df\fc\00\00\a3\88\01\00\e0\fc\00\00\03\89\01\00\e1\fc\00\00b\89\01\00\e2\fc\00\00\a2\89\01\00\e3\fc\00\00\e2\89\01\00\e4\fc\00\00\"\8a\01\00\e5\fc\00\00b\8a\01\00\e6\fc\00\00\a2\8a\01\00\e7\fc\00\00\e2\8a\01\00\e8\fc\00\00\"\8b\01\00\e9\fc\00\00b\8b\01\00\ea\fc\00\00\a2\8b\01\00\eb\fc\00\00\e2\8b\01\00\ec\fc\00\00\"\8c\01\00\ed\fc\00\00b\8c\01\00\ee\fc\00\00\a2\8c\01\00\ef\fc\00\00\e2\8c\01\00\f0\fc\00\00\"\8d\01\00\f1\fc\00\00b\8d\01\00\f2\fc\00\00\a3\8d\01\00\f3\fc\00\00\03\8e\01\00\f4\fc\00\00c\8e\01\00\f5\fc\00\00\c2\8e\01\00\f6\fc\00\00\02\8f\01\00\f7\fc\00\00B\8f\01\00\f8\fc\00\00\82\8f\01\00\f9\fc\00\00\c2\8f\01\00\fa\fc\00\00\02\90\01\00\fb\fc\00\00B\90\01\00\fc\fc\00\00\82\90\01\00\fd\fc\00\00\c2\90\01\00\fe\fc\00\00\02\91\01\00\ff\fc\00\00B\91\01\00\00\fd\00\00\82\91\01\00\01\fd\00\00\c2\91\01\00\02\fd\00\00\02\92\01\00\03\fd\00\00B\92\01\00\04\fd\00\00\82\92\01\00\05\fd\00\00\c2\92\01\00\06\fd\00\00\02\93\01\00\07\fd\00\00B\93\01\00\08\fd\00\00\82\93\01\00\t\fd\00\00\c2\93\01\00\n\fd\00\00\02\94\01\00\0b\fd\00\00B\94\01\00\0c\fd\00\00\82\94\01\00\0d\fd\00\00\c2\94\01\00\0e\fd\00\00\02\95\01\00\0f\fd\00\00B\95\01\00\10\fd\00\00\82\95\01\00\11\fd\00\00\c2\95\01\00\12\fd\00\00\02\96\01\00\13\fd\00\00B\96\01\00\14\fd\00\00\82\96\01\00\15\fd\00\00\c2\96\01\00\16\fd\00\00\02\97\01\00\17\fd\00\00B\97\01\00\18\fd\00\00\82\97\01\00\19\fd\00\00\c2\97\01\00\1a\fd\00\00\02\98\01\00\1b\fd\00\00B\98\01\00\1c\fd\00\00\82\98\01\00\1d\fd\00\00\c2\98\01\00\1e\fd\00\00\02\99\01\00\1f\fd\00\00B\99\01\00 \fd\00\00\82\99\01\00!\fd\00\00\c2\99\01\00\"\fd\00\00\02\9a\01\00#\fd\00\00B\9a\01\00$\fd\00\00\82\9a\01\00%\fd\00\00\c2\9a\01\00&\fd\00\00\02\9b\01\00\'\fd\00\00B\9b\01\00(\fd\00\00\82\9b\01\00)\fd\00\00\c2\9b\01\00*\fd\00\00\02\9c\01\00+\fd\00\00B\9c\01\00,\fd\00\00\82\9c\01\00-\fd\00\00\c2\9c\01\00.\fd\00\00\02\9d\01\00/\fd\00\00B\9d\01\000\fd\00\00\82\9d\01\001\fd\00\00\c2\9d\01\002\fd\00\00\02\9e\01\003\fd\00\00B\9e\01\004\fd\00\00\82\9e\01\005\fd\00\00\c2\9e\01\006\fd\00\00\02\9f\01\007\fd\00\00B\9f\01\008\fd\00\00\82\9f\01\009\fd\00\00\c2\9f\01\00:\fd\00\00\02\a0\01\00;\fd\00\00B\a0\01\00<\fd\00\00\82\a0\01\00=\fd\00\00\c2\a0\01\00P\fd\00\00\03\a1\01\00Q\fd\00\00c\a1\01\00R\fd\00\00\c3\a1\01\00S\fd\00\00#\a2\01\00T\fd\00\00\83\a2\01\00U\fd\00\00\e3\a2\01\00V\fd\00\00C\a3\01\00W\fd\00\00\a3\a3\01\00X\fd\00\00\03\a4\01\00Y\fd\00\00c\a4\01\00Z\fd\00\00\c3\a4\01\00[\fd\00\00#\a5\01\00\\\fd\00\00\83\a5\01\00]\fd\00\00\e3\a5\01\00^\fd\00\00C\a6\01\00_\fd\00\00\a3\a6\01\00`\fd\00\00\03\a7\01\00a\fd\00\00c\a7\01\00b\fd\00\00\c3\a7\01\00c\fd\00\00#\a8\01\00d\fd\00\00\83\a8\01\00e\fd\00\00\e3\a8\01\00f\fd\00\00C\a9\01\00g\fd\00\00\a3\a9\01\00h\fd\00\00\03\aa\01\00i\fd\00\00c\aa\01\00j\fd\00\00\c3\aa\01\00k\fd\00\00#\ab\01\00l\fd\00\00\83\ab\01\00m\fd\00\00\e3\ab\01\00n\fd\00\00C\ac\01\00o\fd\00\00\a3\ac\01\00p\fd\00\00\03\ad\01\00q\fd\00\00c\ad\01\00r\fd\00\00\c3\ad\01\00s\fd\00\00#\ae\01\00t\fd\00\00\83\ae\01\00u\fd\00\00\e3\ae\01\00v\fd\00\00C\af\01\00w\fd\00\00\a3\af\01\00x\fd\00\00\03\b0\01\00y\fd\00\00c\b0\01\00z\fd\00\00\c3\b0\01\00{\fd\00\00#\b1\01\00|\fd\00\00\83\b1\01\00}\fd\00\00\e3\b1\01\00~\fd\00\00C\b2\01\00\7f\fd\00\00\a3\b2\01\00\80\fd\00\00\03\b3\01\00\81\fd\00\00c\b3\01\00\82\fd\00\00\c3\b3\01\00\83\fd\00\00#\b4\01\00\84\fd\00\00\83\b4\01\00\85\fd\00\00\e3\b4\01\00\86\fd\00\00C\b5\01\00\87\fd\00\00\a3\b5\01\00\88\fd\00\00\03\b6\01\00\89\fd\00\00c\b6\01\00\8a\fd\00\00\c3\b6\01\00\8b\fd\00\00#\b7\01\00\8c\fd\00\00\83\b7\01\00\8d\fd\00\00\e3\b7\01\00\8e\fd\00\00C\b8\01\00\8f\fd\00\00\a3\b8\01\00\92\fd\00\00\03\b9\01\00\93\fd\00\00c\b9\01\00\94\fd\00\00\c3\b9\01\00\95\fd\00\00#\ba\01\00\96\fd\00\00\83\ba\01\00\97\fd\00\00\e3\ba\01\00\98\fd\00\00C\bb\01\00\99\fd\00\00\a3\bb\01\00\9a\fd\00\00\03\bc\01\00\9b\fd\00\00c\bc\01\00\9c\fd\00\00\c3\bc\01\00\9d\fd\00\00#\bd\01\00\9e\fd\00\00\83\bd\01\00\9f\fd\00\00\e3\bd\01\00\a0\fd\00\00C\be\01\00\a1\fd\00\00\a3\be\01\00\a2\fd\00\00\03\bf\01\00\a3\fd\00\00c\bf\01\00\a4\fd\00\00\c3\bf\01\00\a5\fd\00\00#\c0\01\00\a6\fd\00\00\83\c0\01\00\a7\fd\00\00\e3\c0\01\00\a8\fd\00\00C\c1\01\00\a9\fd\00\00\a3\c1\01\00\aa\fd\00\00\03\c2\01\00\ab\fd\00\00c\c2\01\00\ac\fd\00\00\c3\c2\01\00\ad\fd\00\00#\c3\01\00\ae\fd\00\00\83\c3\01\00\af\fd\00\00\e3\c3\01\00\b0\fd\00\00C\c4\01\00\b1\fd\00\00\a3\c4\01\00\b2\fd\00\00\03\c5\01\00\b3\fd\00\00c\c5\01\00\b4\fd\00\00\c3\c5\01\00\b5\fd\00\00#\c6\01\00\b6\fd\00\00\83\c6\01\00\b7\fd\00\00\e3\c6\01\00\b8\fd\00\00C\c7\01\00\b9\fd\00\00\a3\c7\01\00\ba\fd\00\00\03\c8\01\00\bb\fd\00\00c\c8\01\00\bc\fd\00\00\c3\c8\01\00\bd\fd\00\00#\c9\01\00\be\fd\00\00\83\c9\01\00\bf\fd\00\00\e3\c9\01\00\c0\fd\00\00C\ca\01\00\c1\fd\00\00\a3\ca\01\00\c2\fd\00\00\03\cb\01\00\c3\fd\00\00c\cb\01\00\c4\fd\00\00\c3\cb\01\00\c5\fd\00\00#\cc\01\00\c6\fd\00\00\83\cc\01\00\c7\fd\00\00\e3\cc\01\00\f0\fd\00\00C\cd\01\00\f1\fd\00\00\a3\cd\01\00\f2\fd\00\00\04\ce\01\00\f3\fd\00\00\84\ce\01\00\f4\fd\00\00\04\cf\01\00\f5\fd\00\00\84\cf\01\00\f6\fd\00\00\04\d0\01\00\f7\fd\00\00\84\d0\01\00\f8\fd\00\00\04\d1\01\00\f9\fd\00\00\83\d1\01\00\fa\fd\00\00\f2\d1\01\00\fb\fd\00\00(\d4\01\00\fc\fd\00\00$\d5\01\00\10\fe\00\00\a1\d5\01\00\11\fe\00\00\c1\d5\01\00\12\fe\00\00\e1\d5\01\00\13\fe\00\00\01\d6\01\00\14\fe\00\00!\d6\01\00\15\fe\00\00A\d6\01\00\16\fe\00\00a\d6\01\00\17\fe\00\00\81\d6\01\00\18\fe\00\00\a1\d6\01\00\19\fe\00\00\c3\d6\01\000\fe\00\00\"\d7\01\001\fe\00\00a\d7\01\002\fe\00\00\81\d7\01\003\fe\00\00\a1\d7\01\004\fe\00\00\c1\d7\01\005\fe\00\00\e1\d7\01\006\fe\00\00\01\d8\01\007\fe\00\00!\d8\01\008\fe\00\00A\d8\01\009\fe\00\00a\d8\01\00:\fe\00\00\81\d8\01\00;\fe\00\00\a1\d8\01\00<\fe\00\00\c1\d8\01\00=\fe\00\00\e1\d8\01\00>\fe\00\00\01\d9\01\00?\fe\00\00!\d9\01\00@\fe\00\00A\d9\01\00A\fe\00\00a\d9\01\00B\fe\00\00\81\d9\01\00C\fe\00\00\a1\d9\01\00D\fe\00\00\c1\d9\01\00G\fe\00\00\e1\d9\01\00H\fe\00\00\01\da\01\00I\fe\00\00\"\da\01\00J\fe\00\00b\da\01\00K\fe\00\00\a2\da\01\00L\fe\00\00\e2\da\01\00M\fe\00\00!\db\01\00N\fe\00\00A\db\01\00O\fe\00\00a\db\01\00P\fe\00\00\81\db\01\00Q\fe\00\00\a1\db\01\00R\fe\00\00\c1\db\01\00T\fe\00\00\e1\db\01\00U\fe\00\00\01\dc\01\00V\fe\00\00!\dc\01\00W\fe\00\00A\dc\01\00X\fe\00\00a\dc\01\00Y\fe\00\00\81\dc\01\00Z\fe\00\00\a1\dc\01\00[\fe\00\00\c1\dc\01\00\\\fe\00\00\e1\dc\01\00]\fe\00\00\01\dd\01\00^\fe\00\00!\dd\01\00_\fe\00\00A\dd\01\00`\fe\00\00a\dd\01\00a\fe\00\00\81\dd\01\00b\fe\00\00\a1\dd\01\00c\fe\00\00\c1\dd\01\00d\fe\00\00\e1\dd\01\00e\fe\00\00\01\de\01\00f\fe\00\00!\de\01\00h\fe\00\00A\de\01\00i\fe\00\00a\de\01\00j\fe\00\00\81\de\01\00k\fe\00\00\a1\de\01\00p\fe\00\00\c2\de\01\00q\fe\00\00\02\df\01\00r\fe\00\00B\df\01\00t\fe\00\00\82\df\01\00v\fe\00\00\c2\df\01\00w\fe\00\00\02\e0\01\00x\fe\00\00B\e0\01\00y\fe\00\00\82\e0\01\00z\fe\00\00\c2\e0\01\00{\fe\00\00\02\e1\01\00|\fe\00\00B\e1\01\00}\fe\00\00\82\e1\01\00~\fe\00\00\c2\e1\01\00\7f\fe\00\00\02\e2\01\00\80\fe\00\00A\e2\01\00\81\fe\00\00b\e2\01\00\82\fe\00\00\a2\e2\01\00\83\fe\00\00\e2\e2\01\00\84\fe\00\00\"\e3\01\00\85\fe\00\00b\e3\01\00\86\fe\00\00\a2\e3\01\00\87\fe\00\00\e2\e3\01\00\88\fe\00\00\"\e4\01\00\89\fe\00\00b\e4\01\00\8a\fe\00\00\a2\e4\01\00\8b\fe\00\00\e2\e4\01\00\8c\fe\00\00\"\e5\01\00\8d\fe\00\00a\e5\01\00\8e\fe\00\00\81\e5\01\00\8f\fe\00\00\a1\e5\01\00\90\fe\00\00\c1\e5\01\00\91\fe\00\00\e1\e5\01\00\92\fe\00\00\01\e6\01\00\93\fe\00\00!\e6\01\00\94\fe\00\00A\e6\01\00\95\fe\00\00a\e6\01\00\96\fe\00\00\81\e6\01\00\97\fe\00\00\a1\e6\01\00\98\fe\00\00\c1\e6\01\00\99\fe\00\00\e1\e6\01\00\9a\fe\00\00\01\e7\01\00\9b\fe\00\00!\e7\01\00\9c\fe\00\00A\e7\01\00\9d\fe\00\00a\e7\01\00\9e\fe\00\00\81\e7\01\00\9f\fe\00\00\a1\e7\01\00\a0\fe\00\00\c1\e7\01\00\a1\fe\00\00\e1\e7\01\00\a2\fe\00\00\01\e8\01\00\a3\fe\00\00!\e8\01\00\a4\fe\00\00A\e8\01\00\a5\fe\00\00a\e8\01\00\a6\fe\00\00\81\e8\01\00\a7\fe\00\00\a1\e8\01\00\a8\fe\00\00\c1\e8\01\00\a9\fe\00\00\e1\e8\01\00\aa\fe\00\00\01\e9\01\00\ab\fe\00\00!\e9\01\00\ac\fe\00\00A\e9\01\00\ad\fe\00\00a\e9\01\00\ae\fe\00\00\81\e9\01\00\af\fe\00\00\a1\e9\01\00\b0\fe\00\00\c1\e9\01\00\b1\fe\00\00\e1\e9\01\00\b2\fe\00\00\01\ea\01\00\b3\fe\00\00!\ea\01\00\b4\fe\00\00A\ea\01\00\b5\fe\00\00a\ea\01\00\b6\fe\00\00\81\ea\01\00\b7\fe\00\00\a1\ea\01\00\b8\fe\00\00\c1\ea\01\00\b9\fe\00\00\e1\ea\01\00\ba\fe\00\00\01\eb\01\00\bb\fe\00\00!\eb\01\00\bc\fe\00\00A\eb\01\00\bd\fe\00\00a\eb\01\00\be\fe\00\00\81\eb\01\00\bf\fe\00\00\a1\eb\01\00\c0\fe\00\00\c1\eb\01\00\c1\fe\00\00\e1\eb\01\00\c2\fe\00\00\01\ec\01\00\c3\fe\00\00!\ec\01\00\c4\fe\00\00A\ec\01\00\c5\fe\00\00a\ec\01\00\c6\fe\00\00\81\ec\01\00\c7\fe\00\00\a1\ec\01\00\c8\fe\00\00\c1\ec\01\00\c9\fe\00\00\e1\ec\01\00\ca\fe\00\00\01\ed\01\00\cb\fe\00\00!\ed\01\00\cc\fe\00\00A\ed\01\00\cd\fe\00\00a\ed\01\00\ce\fe\00\00\81\ed\01\00\cf\fe\00\00\a1\ed\01\00\d0\fe\00\00\c1\ed\01\00\d1\fe\00\00\e1\ed\01\00\d2\fe\00\00\01\ee\01\00\d3\fe\00\00!\ee\01\00\d4\fe\00\00A\ee\01\00\d5\fe\00\00a\ee\01\00\d6\fe\00\00\81\ee\01\00\d7\fe\00\00\a1\ee\01\00\d8\fe\00\00\c1\ee\01\00\d9\fe\00\00\e1\ee\01\00\da\fe\00\00\01\ef\01\00\db\fe\00\00!\ef\01\00\dc\fe\00\00A\ef\01\00\dd\fe\00\00a\ef\01\00\de\fe\00\00\81\ef\01\00\df\fe\00\00\a1\ef\01\00\e0\fe\00\00\c1\ef\01\00\e1\fe\00\00\e1\ef\01\00\e2\fe\00\00\01\f0\01\00\e3\fe\00\00!\f0\01\00\e4\fe\00\00A\f0\01\00\e5\fe\00\00a\f0\01\00\e6\fe\00\00\81\f0\01\00\e7\fe\00\00\a1\f0\01\00\e8\fe\00\00\c1\f0\01\00\e9\fe\00\00\e1\f0\01\00\ea\fe\00\00\01\f1\01\00\eb\fe\00\00!\f1\01\00\ec\fe\00\00A\f1\01\00\ed\fe\00\00a\f1\01\00\ee\fe\00\00\81\f1\01\00\ef\fe\00\00\a1\f1\01\00\f0\fe\00\00\c1\f1\01\00\f1\fe\00\00\e1\f1\01\00\f2\fe\00\00\01\f2\01\00\f3\fe\00\00!\f2\01\00\f4\fe\00\00A\f2\01\00\f5\fe\00\00c\f2\01\00\f6\fe\00\00\c3\f2\01\00\f7\fe\00\00#\f3\01\00\f8\fe\00\00\83\f3\01\00\f9\fe\00\00\e3\f3\01\00\fa\fe\00\00C\f4\01\00\fb\fe\00\00\a2\f4\01\00\fc\fe\00\00\e2\f4\01\00\01\ff\00\00!\f5\01\00\02\ff\00\00A\f5\01\00\03\ff\00\00a\f5\01\00\04\ff\00\00\81\f5\01\00\05\ff\00\00\a1\f5\01\00\06\ff\00\00\c1\f5\01\00\07\ff\00\00\e1\f5\01\00\08\ff\00\00\01\f6\01\00\t\ff\00\00!\f6\01\00\n\ff\00\00A\f6\01\00\0b\ff\00\00a\f6\01\00\0c\ff\00\00\81\f6\01\00\0d\ff\00\00\a1\f6\01\00\0e\ff\00\00\c1\f6\01\00\0f\ff\00\00\e1\f6\01\00\10\ff\00\00\01\f7\01\00\11\ff\00\00!\f7\01\00\12\ff\00\00A\f7\01\00\13\ff\00\00a\f7\01\00\14\ff\00\00\81\f7\01\00\15\ff\00\00\a1\f7\01\00\16\ff\00\00\c1\f7\01\00\17\ff\00\00\e1\f7\01\00\18\ff\00\00\01\f8\01\00\19\ff\00\00!\f8\01\00\1a\ff\00\00A\f8\01\00\1b\ff\00\00a\f8\01\00\1c\ff\00\00\81\f8\01\00\1d\ff\00\00\a1\f8\01\00\1e\ff\00\00\c1\f8\01\00\1f\ff\00\00\e1\f8\01\00 \ff\00\00\01\f9\01\00!\ff\00\00!\f9\01\00\"\ff\00\00A\f9\01\00#\ff\00\00a\f9\01\00$\ff\00\00\81\f9\01\00%\ff\00\00\a1\f9\01\00&\ff\00\00\c1\f9\01\00\'\ff\00\00\e1\f9\01\00(\ff\00\00\01\fa\01\00)\ff\00\00!\fa\01\00*\ff\00\00A\fa\01\00+\ff\00\00a\fa\01\00,\ff\00\00\81\fa\01\00-\ff\00\00\a1\fa\01\00.\ff\00\00\c1\fa\01\00/\ff\00\00\e1\fa\01\000\ff\00\00\01\fb\01\001\ff\00\00!\fb\01\002\ff\00\00A\fb\01\003\ff\00\00a\fb\01\004\ff\00\00\81\fb\01\005\ff\00\00\a1\fb\01\006\ff\00\00\c1\fb\01\007\ff\00\00\e1\fb\01\008\ff\00\00\01\fc\01\009\ff\00\00!\fc\01\00:\ff\00\00A\fc\01\00;\ff\00\00a\fc\01\00<\ff\00\00\81\fc\01\00=\ff\00\00\a1\fc\01\00>\ff\00\00\c1\fc\01\00?\ff\00\00\e1\fc\01\00@\ff\00\00\01\fd\01\00A\ff\00\00!\fd\01\00B\ff\00\00A\fd\01\00C\ff\00\00a\fd\01\00D\ff\00\00\81\fd\01\00E\ff\00\00\a1\fd\01\00F\ff\00\00\c1\fd\01\00G\ff\00\00\e1\fd\01\00H\ff\00\00\01\fe\01\00I\ff\00\00!\fe\01\00J\ff\00\00A\fe\01\00K\ff\00\00a\fe\01\00L\ff\00\00\81\fe\01\00M\ff\00\00\a1\fe\01\00N\ff\00\00\c1\fe\01\00O\ff\00\00\e1\fe\01\00P\ff\00\00\01\ff\01\00Q\ff\00\00!\ff\01\00R\ff\00\00A\ff\01\00S\ff\00\00a\ff\01\00T\ff\00\00\81\ff\01\00U\ff\00\00\a1\ff\01\00V\ff\00\00\c1\ff\01\00W\ff\00\00\e1\ff\01\00X\ff\00\00\01\00\02\00Y\ff\00\00!\00\02\00Z\ff\00\00A\00\02\00[\ff\00\00a\00\02\00\\\ff\00\00\81\00\02\00]\ff\00\00\a1\00\02\00^\ff\00\00\c1\00\02\00_\ff\00\00\e1\00\02\00`\ff\00\00\01\01\02\00a\ff\00\00!\01\02\00b\ff\00\00A\01\02\00c\ff\00\00a\01\02\00d\ff\00\00\81\01\02\00e\ff\00\00\a1\01\02\00f\ff\00\00\c1\01\02\00g\ff\00\00\e1\01\02\00h\ff\00\00\01\02\02\00i\ff\00\00!\02\02\00j\ff\00\00A\02\02\00k\ff\00\00a\02\02\00l\ff\00\00\81\02\02\00m\ff\00\00\a1\02\02\00n\ff\00\00\c1\02\02\00o\ff\00\00\e1\02\02\00p\ff\00\00\01\03\02\00q\ff\00\00!\03\02\00r\ff\00\00A\03\02\00s\ff\00\00a\03\02\00t\ff\00\00\81\03\02\00u\ff\00\00\a1\03\02\00v\ff\00\00\c1\03\02\00w\ff\00\00\e1\03\02\00x\ff\00\00\01\04\02\00y\ff\00\00!\04\02\00z\ff\00\00A\04\02\00{\ff\00\00a\04\02\00|\ff\00\00\81\04\02\00}\ff\00\00\a1\04\02\00~\ff\00\00\c1\04\02\00\7f\ff\00\00\e1\04\02\00\80\ff\00\00\01\05\02\00\81\ff\00\00!\05\02\00\82\ff\00\00A\05\02\00\83\ff\00\00a\05\02\00\84\ff\00\00\81\05\02\00\85\ff\00\00\a1\05\02\00\86\ff\00\00\c1\05\02\00\87\ff\00\00\e1\05\02\00\88\ff\00\00\01\06\02\00\89\ff\00\00!\06\02\00\8a\ff\00\00A\06\02\00\8b\ff\00\00a\06\02\00\8c\ff\00\00\81\06\02\00\8d\ff\00\00\a1\06\02\00\8e\ff\00\00\c1\06\02\00\8f\ff\00\00\e1\06\02\00\90\ff\00\00\01\07\02\00\91\ff\00\00!\07\02\00\92\ff\00\00A\07\02\00\93\ff\00\00a\07\02\00\94\ff\00\00\81\07\02\00\95\ff\00\00\a1\07\02\00\96\ff\00\00\c1\07\02\00\97\ff\00\00\e1\07\02\00\98\ff\00\00\01\08\02\00\99\ff\00\00!\08\02\00\9a\ff\00\00A\08\02\00\9b\ff\00\00a\08\02\00\9c\ff\00\00\81\08\02\00\9d\ff\00\00\a1\08\02\00\9e\ff\00\00\c1\08\02\00\9f\ff\00\00\e1\08\02\00\a0\ff\00\00\01\t\02\00\a1\ff\00\00!\t\02\00\a2\ff\00\00A\t\02\00\a3\ff\00\00a\t\02\00\a4\ff\00\00\81\t\02\00\a5\ff\00\00\a1\t\02\00\a6\ff\00\00\c1\t\02\00\a7\ff\00\00\e1\t\02\00\a8\ff\00\00\01\n\02\00\a9\ff\00\00!\n\02\00\aa\ff\00\00A\n\02\00\ab\ff\00\00a\n\02\00\ac\ff\00\00\81\n\02\00\ad\ff\00\00\a1\n\02\00\ae\ff\00\00\c1\n\02\00\af\ff\00\00\e1\n\02\00\b0\ff\00\00\01\0b\02\00\b1\ff\00\00!\0b\02\00\b2\ff\00\00A\0b\02\00\b3\ff\00\00a\0b\02\00\b4\ff\00\00\81\0b\02\00\b5\ff\00\00\a1\0b\02\00\b6\ff\00\00\c1\0b\02\00\b7\ff\00\00\e1\0b\02\00\b8\ff\00\00\01\0c\02\00\b9\ff\00\00!\0c\02\00\ba\ff\00\00A\0c\02\00\bb\ff\00\00a\0c\02\00\bc\ff\00\00\81\0c\02\00\bd\ff\00\00\a1\0c\02\00\be\ff\00\00\c1\0c\02\00\c2\ff\00\00\e1\0c\02\00\c3\ff\00\00\01\0d\02\00\c4\ff\00\00!\0d\02\00\c5\ff\00\00A\0d\02\00\c6\ff\00\00a\0d\02\00\c7\ff\00\00\81\0d\02\00\ca\ff\00\00\a1\0d\02\00\cb\ff\00\00\c1\0d\02\00\cc\ff\00\00\e1\0d\02\00\cd\ff\00\00\01\0e\02\00\ce\ff\00\00!\0e\02\00\cf\ff\00\00A\0e\02\00\d2\ff\00\00a\0e\02\00\d3\ff\00\00\81\0e\02\00\d4\ff\00\00\a1\0e\02\00\d5\ff\00\00\c1\0e\02\00\d6\ff\00\00\e1\0e\02\00\d7\ff\00\00\01\0f\02\00\da\ff\00\00!\0f\02\00\db\ff\00\00A\0f\02\00\dc\ff\00\00a\0f\02\00\e0\ff\00\00\81\0f\02\00\e1\ff\00\00\a1\0f\02\00\e2\ff\00\00\c1\0f\02\00\e3\ff\00\00\e2\0f\02\00\e4\ff\00\00!\10\02\00\e5\ff\00\00A\10\02\00\e6\ff\00\00a\10\02\00\e8\ff\00\00\81\10\02\00\e9\ff\00\00\a1\10\02\00\ea\ff\00\00\c1\10\02\00\eb\ff\00\00\e1\10\02\00\ec\ff\00\00\01\11\02\00\ed\ff\00\00!\11\02\00\ee\ff\00\00A\11\02\00\81\07\01\00a\11\02\00\82\07\01\00\81\11\02\00\83\07\01\00\a1\11\02\00\84\07\01\00\c1\11\02\00\85\07\01\00\e1\11\02\00\87\07\01\00\01\12\02\00\88\07\01\00!\12\02\00\89\07\01\00A\12\02\00\8a\07\01\00a\12\02\00\8b\07\01\00\81\12\02\00\8c\07\01\00\a1\12\02\00\8d\07\01\00\c1\12\02\00\8e\07\01\00\e1\12\02\00\8f\07\01\00\01\13\02\00\90\07\01\00!\13\02\00\91\07\01\00A\13\02\00\92\07\01\00a\13\02\00\93\07\01\00\81\13\02\00\94\07\01\00\a1\13\02\00\95\07\01\00\c1\13\02\00\96\07\01\00\e1\13\02\00\97\07\01\00\01\14\02\00\98\07\01\00!\14\02\00\99\07\01\00A\14\02\00\9a\07\01\00a\14\02\00\9b\07\01\00\81\14\02\00\9c\07\01\00\a2\14\02\00\9d\07\01\00\e1\14\02\00\9e\07\01\00\01\15\02\00\9f\07\01\00\"\15\02\00\a0\07\01\00a\15\02\00\a1\07\01\00\82\15\02\00\a2\07\01\00\c1\15\02\00\a3\07\01\00\e1\15\02\00\a4\07\01\00\01\16\02\00\a5\07\01\00!\16\02\00\a6\07\01\00A\16\02\00\a7\07\01\00b\16\02\00\a8\07\01\00\a1\16\02\00\a9\07\01\00\c1\16\02\00\aa\07\01\00\e1\16\02\00\ab\07\01\00\01\17\02\00\ac\07\01\00!\17\02\00\ad\07\01\00A\17\02\00\ae\07\01\00a\17\02\00\af\07\01\00\81\17\02\00\b0\07\01\00\a1\17\02\00\b2\07\01\00\c1\17\02\00\b3\07\01\00\e1\17\02\00\b4\07\01\00\01\18\02\00\b5\07\01\00!\18\02\00\b6\07\01\00A\18\02\00\b7\07\01\00a\18\02\00\b8\07\01\00\81\18\02\00\b9\07\01\00\a2\18\02\00\ba\07\01\00\e2\18\02\00\d6\cc\01\00!\19\02\00\d7\cc\01\00A\19\02\00\d8\cc\01\00a\19\02\00\d9\cc\01\00\81\19\02\00\da\cc\01\00\a1\19\02\00\db\cc\01\00\c1\19\02\00\dc\cc\01\00\e1\19\02\00\dd\cc\01\00\01\1a\02\00\de\cc\01\00!\1a\02\00\df\cc\01\00A\1a\02\00\e0\cc\01\00a\1a\02\00\e1\cc\01\00\81\1a\02\00\e2\cc\01\00\a1\1a\02\00\e3\cc\01\00\c1\1a\02\00\e4\cc\01\00\e1\1a\02\00\e5\cc\01\00\01\1b\02\00\e6\cc\01\00!\1b\02\00\e7\cc\01\00A\1b\02\00\e8\cc\01\00a\1b\02\00\e9\cc\01\00\81\1b\02\00\ea\cc\01\00\a1\1b\02\00\eb\cc\01\00\c1\1b\02\00\ec\cc\01\00\e1\1b\02\00\ed\cc\01\00\01\1c\02\00\ee\cc\01\00!\1c\02\00\ef\cc\01\00A\1c\02\00\f0\cc\01\00a\1c\02\00\f1\cc\01\00\81\1c\02\00\f2\cc\01\00\a1\1c\02\00\f3\cc\01\00\c1\1c\02\00\f4\cc\01\00\e1\1c\02\00\f5\cc\01\00\01\1d\02\00\f6\cc\01\00!\1d\02\00\f7\cc\01\00A\1d\02\00\f8\cc\01\00a\1d\02\00\f9\cc\01\00\81\1d\02\00\00\d4\01\00\a1\1d\02\00\01\d4\01\00\c1\1d\02\00\02\d4\01\00\e1\1d\02\00\03\d4\01\00\01\1e\02\00\04\d4\01\00!\1e\02\00\05\d4\01\00A\1e\02\00\06\d4\01\00a\1e\02\00\07\d4\01\00\81\1e\02\00\08\d4\01\00\a1\1e\02\00\t\d4\01\00\c1\1e\02\00\n\d4\01\00\e1\1e\02\00\0b\d4\01\00\01\1f\02\00\0c\d4\01\00!\1f\02\00\0d\d4\01\00A\1f\02\00\0e\d4\01\00a\1f\02\00\0f\d4\01\00\81\1f\02\00\10\d4\01\00\a1\1f\02\00\11\d4\01\00\c1\1f\02\00\12\d4\01\00\e1\1f\02\00\13\d4\01\00\01 \02\00\14\d4\01\00! \02\00\15\d4\01\00A \02\00\16\d4\01\00a \02\00\17\d4\01\00\81 \02\00\18\d4\01\00\a1 \02\00\19\d4\01\00\c1 \02\00\1a\d4\01\00\e1 \02\00\1b\d4\01\00\01!\02\00\1c\d4\01\00!!\02\00\1d\d4\01\00A!\02\00\1e\d4\01\00a!\02\00\1f\d4\01\00\81!\02\00 \d4\01\00\a1!\02\00!\d4\01\00\c1!\02\00\"\d4\01\00\e1!\02\00#\d4\01\00\01\"\02\00$\d4\01\00!\"\02\00%\d4\01\00A\"\02\00&\d4\01\00a\"\02\00\'\d4\01\00\81\"\02\00(\d4\01\00\a1\"\02\00)\d4\01\00\c1\"\02\00*\d4\01\00\e1\"\02\00+\d4\01\00\01#\02\00,\d4\01\00!#\02\00-\d4\01\00A#\02\00.\d4\01\00a#\02\00/\d4\01\00\81#\02\000\d4\01\00\a1#\02\001\d4\01\00\c1#\02\002\d4\01\00\e1#\02\003\d4\01\00\01$\02\004\d4\01\00!$\02\005\d4\01\00A$\02\006\d4\01\00a$\02\007\d4\01\00\81$\02\008\d4\01\00\a1$\02\009\d4\01\00\c1$\02\00:\d4\01\00\e1$\02\00;\d4\01\00\01%\02\00<\d4\01\00!%\02\00=\d4\01\00A%\02\00>\d4\01\00a%\02\00?\d4\01\00\81%\02\00@\d4\01\00\a1%\02\00A\d4\01\00\c1%\02\00B\d4\01\00\e1%\02\00C\d4\01\00\01&\02\00D\d4\01\00!&\02\00E\d4\01\00A&\02\00F\d4\01\00a&\02\00G\d4\01\00\81&\02\00H\d4\01\00\a1&\02\00I\d4\01\00\c1&\02\00J\d4\01\00\e1&\02\00K\d4\01\00\01\'\02\00L\d4\01\00!\'\02\00M\d4\01\00A\'\02\00N\d4\01\00a\'\02\00O\d4\01\00\81\'\02\00P\d4\01\00\a1\'\02\00Q\d4\01\00\c1\'\02\00R\d4\01\00\e1\'\02\00S\d4\01\00\01(\02\00T\d4\01\00!(\02\00V\d4\01\00A(\02\00W\d4\01\00a(\02\00X\d4\01\00\81(\02\00Y\d4\01\00\a1(\02\00Z\d4\01\00\c1(\02\00[\d4\01\00\e1(\02\00\\\d4\01\00\01)\02\00]\d4\01\00!)\02\00^\d4\01\00A)\02\00_\d4\01\00a)\02\00`\d4\01\00\81)\02\00a\d4\01\00\a1)\02\00b\d4\01\00\c1)\02\00c\d4\01\00\e1)\02\00d\d4\01\00\01*\02\00e\d4\01\00!*\02\00f\d4\01\00A*\02\00g\d4\01\00a*\02\00h\d4\01\00\81*\02\00i\d4\01\00\a1*\02\00j\d4\01\00\c1*\02\00k\d4\01\00\e1*\02\00l\d4\01\00\01+\02\00m\d4\01\00!+\02\00n\d4\01\00A+\02\00o\d4\01\00a+\02\00p\d4\01\00\81+\02\00q\d4\01\00\a1+\02\00r\d4\01\00\c1+\02\00s\d4\01\00\e1+\02\00t\d4\01\00\01,\02\00u\d4\01\00!,\02\00v\d4\01\00A,\02\00w\d4\01\00a,\02\00x\d4\01\00\81,\02\00y\d4\01\00\a1,\02\00z\d4\01\00\c1,\02\00{\d4\01\00\e1,\02\00|\d4\01\00\01-\02\00}\d4\01\00!-\02\00~\d4\01\00A-\02\00\7f\d4\01\00a-\02\00\80\d4\01\00\81-\02\00\81\d4\01\00\a1-\02\00\82\d4\01\00\c1-\02\00\83\d4\01\00\e1-\02\00\84\d4\01\00\01.\02\00\85\d4\01\00!.\02\00\86\d4\01\00A.\02\00\87\d4\01\00a.\02\00\88\d4\01\00\81.\02\00\89\d4\01\00\a1.\02\00\8a\d4\01\00\c1.\02\00\8b\d4\01\00\e1.\02\00\8c\d4\01\00\01/\02\00\8d\d4\01\00!/\02\00\8e\d4\01\00A/\02\00\8f\d4\01\00a/\02\00\90\d4\01\00\81/\02\00\91\d4\01\00\a1/\02\00\92\d4\01\00\c1/\02\00\93\d4\01\00\e1/\02\00\94\d4\01\00\010\02\00\95\d4\01\00!0\02\00\96\d4\01\00A0\02\00\97\d4\01\00a0\02\00\98\d4\01\00\810\02\00\99\d4\01\00\a10\02\00\9a\d4\01\00\c10\02\00\9b\d4\01\00\e10\02\00\9c\d4\01\00\011\02\00\9e\d4\01\00!1\02\00\9f\d4\01\00A1\02\00\a2\d4\01\00a1\02\00\a5\d4\01\00\811\02\00\a6\d4\01\00\a11\02\00\a9\d4\01\00\c11\02\00\aa\d4\01\00\e11\02\00\ab\d4\01\00\012\02\00\ac\d4\01\00!2\02\00\ae\d4\01\00A2\02\00\af\d4\01\00a2\02\00\b0\d4\01\00\812\02\00\b1\d4\01\00\a12\02\00\b2\d4\01\00\c12\02\00\b3\d4\01\00\e12\02\00\b4\d4\01\00\013\02\00\b5\d4\01\00!3\02\00\b6\d4\01\00A3\02\00\b7\d4\01\00a3\02\00\b8\d4\01\00\813\02\00\b9\d4\01\00\a13\02\00\bb\d4\01\00\c13\02\00\bd\d4\01\00\e13\02\00\be\d4\01\00\014\02\00\bf\d4\01\00!4\02\00\c0\d4\01\00A4\02\00\c1\d4\01\00a4\02\00\c2\d4\01\00\814\02\00\c3\d4\01\00\a14\02\00\c5\d4\01\00\c14\02\00\c6\d4\01\00\e14\02\00\c7\d4\01\00\015\02\00\c8\d4\01\00!5\02\00\c9\d4\01\00A5\02\00\ca\d4\01\00a5\02\00\cb\d4\01\00\815\02\00\cc\d4\01\00\a15\02\00\cd\d4\01\00\c15\02\00\ce\d4\01\00\e15\02\00\cf\d4\01\00\016\02\00\d0\d4\01\00!6\02\00\d1\d4\01\00A6\02\00\d2\d4\01\00a6\02\00\d3\d4\01\00\816\02\00\d4\d4\01\00\a16\02\00\d5\d4\01\00\c16\02\00\d6\d4\01\00\e16\02\00\d7\d4\01\00\017\02\00\d8\d4\01\00!7\02\00\d9\d4\01\00A7\02\00\da\d4\01\00a7\02\00\db\d4\01\00\817\02\00\dc\d4\01\00\a17\02\00\dd\d4\01\00\c17\02\00\de\d4\01\00\e17\02\00\df\d4\01\00\018\02\00\e0\d4\01\00!8\02\00\e1\d4\01\00A8\02\00\e2\d4\01\00a8\02\00\e3\d4\01\00\818\02\00\e4\d4\01\00\a18\02\00\e5\d4\01\00\c18\02\00\e6\d4\01\00\e18\02\00\e7\d4\01\00\019\02\00\e8\d4\01\00!9\02\00\e9\d4\01\00A9\02\00\ea\d4\01\00a9\02\00\eb\d4\01\00\819\02\00\ec\d4\01\00\a19\02\00\ed\d4\01\00\c19\02\00\ee\d4\01\00\e19\02\00\ef\d4\01\00\01:\02\00\f0\d4\01\00!:\02\00\f1\d4\01\00A:\02\00\f2\d4\01\00a:\02\00\f3\d4\01\00\81:\02\00\f4\d4\01\00\a1:\02\00\f5\d4\01\00\c1:\02\00\f6\d4\01\00\e1:\02\00\f7\d4\01\00\01;\02\00\f8\d4\01\00!;\02\00\f9\d4\01\00A;\02\00\fa\d4\01\00a;\02\00\fb\d4\01\00\81;\02\00\fc\d4\01\00\a1;\02\00\fd\d4\01\00\c1;\02\00\fe\d4\01\00\e1;\02\00\ff\d4\01\00\01<\02\00\00\d5\01\00!<\02\00\01\d5\01\00A<\02\00\02\d5\01\00a<\02\00\03\d5\01\00\81<\02\00\04\d5\01\00\a1<\02\00\05\d5\01\00\c1<\02\00\07\d5\01\00\e1<\02\00\08\d5\01\00\01=\02\00\t\d5\01\00!=\02\00\n\d5\01\00A=\02\00\0d\d5\01\00a=\02\00\0e\d5\01\00\81=\02\00\0f\d5\01\00\a1=\02\00\10\d5\01\00\c1=\02\00\11\d5\01\00\e1=\02\00\12\d5\01\00\01>\02\00\13\d5\01\00!>\02\00\14\d5\01\00A>\02\00\16\d5\01\00a>\02\00\17\d5\01\00\81>\02\00\18\d5\01\00\a1>\02\00\19\d5\01\00\c1>\02\00\1a\d5\01\00\e1>\02\00\1b\d5\01\00\01?\02\00\1c\d5\01\00!?\02\00\1e\d5\01\00A?\02\00\1f\d5\01\00a?\02\00 \d5\01\00\81?\02\00!\d5\01\00\a1?\02\00\"\d5\01\00\c1?\02\00#\d5\01\00\e1?\02\00$\d5\01\00\01@\02\00%\d5\01\00!@\02\00&\d5\01\00A@\02\00\'\d5\01\00a@\02\00(\d5\01\00\81@\02\00)\d5\01\00\a1@\02\00*\d5\01\00\c1@\02\00+\d5\01\00\e1@\02\00,\d5\01\00\01A\02\00-\d5\01\00!A\02\00.\d5\01\00AA\02\00/\d5\01\00aA\02\000\d5\01\00\81A\02\001\d5\01\00\a1A\02\002\d5\01\00\c1A\02\003\d5\01\00\e1A\02\004\d5\01\00\01B\02\005\d5\01\00!B\02\006\d5\01\00AB\02\007\d5\01\00aB\02\008\d5\01\00\81B\02\009\d5\01\00\a1B\02\00;\d5\01\00\c1B\02\00<\d5\01\00\e1B\02\00=\d5\01\00\01C\02\00>\d5\01\00!C\02\00@\d5\01\00AC\02\00A\d5\01\00aC\02\00B\d5\01\00\81C\02\00C\d5\01\00\a1C\02\00D\d5\01\00\c1C\02\00F\d5\01\00\e1C\02\00J\d5\01\00\01D\02\00K\d5\01\00!D\02\00L\d5\01\00AD\02\00M\d5\01\00aD\02\00N\d5\01\00\81D\02\00O\d5\01\00\a1D\02\00P\d5\01\00\c1D\02\00R\d5\01\00\e1D\02\00S\d5\01\00\01E\02\00T\d5\01\00!E\02\00U\d5\01\00AE\02\00V\d5\01\00aE\02\00W\d5\01\00\81E\02\00X\d5\01\00\a1E\02\00Y\d5\01\00\c1E\02\00Z\d5\01\00\e1E\02\00[\d5\01\00\01F\02\00\\\d5\01\00!F\02\00]\d5\01\00AF\02\00^\d5\01\00aF\02\00_\d5\01\00\81F\02\00`\d5\01\00\a1F\02\00a\d5\01\00\c1F\02\00b\d5\01\00\e1F\02\00c\d5\01\00\01G\02\00d\d5\01\00!G\02\00e\d5\01\00AG\02\00f\d5\01\00aG\02\00g\d5\01\00\81G\02\00h\d5\01\00\a1G\02\00i\d5\01\00\c1G\02\00j\d5\01\00\e1G\02\00k\d5\01\00\01H\02\00l\d5\01\00!H\02\00m\d5\01\00AH\02\00n\d5\01\00aH\02\00o\d5\01\00\81H\02\00p\d5\01\00\a1H\02\00q\d5\01\00\c1H\02\00r\d5\01\00\e1H\02\00s\d5\01\00\01I\02\00t\d5\01\00!I\02\00u\d5\01\00AI\02\00v\d5\01\00aI\02\00w\d5\01\00\81I\02\00x\d5\01\00\a1I\02\00y\d5\01\00\c1I\02\00z\d5\01\00\e1I\02\00{\d5\01\00\01J\02\00|\d5\01\00!J\02\00}\d5\01\00AJ\02\00~\d5\01\00aJ\02\00\7f\d5\01\00\81J\02\00\80\d5\01\00\a1J\02\00\81\d5\01\00\c1J\02\00\82\d5\01\00\e1J\02\00\83\d5\01\00\01K\02\00\84\d5\01\00!K\02\00\85\d5\01\00AK\02\00\86\d5\01\00aK\02\00\87\d5\01\00\81K\02\00\88\d5\01\00\a1K\02\00\89\d5\01\00\c1K\02\00\8a\d5\01\00\e1K\02\00\8b\d5\01\00\01L\02\00\8c\d5\01\00!L\02\00\8d\d5\01\00AL\02\00\8e\d5\01\00aL\02\00\8f\d5\01\00\81L\02\00\90\d5\01\00\a1L\02\00\91\d5\01\00\c1L\02\00\92\d5\01\00\e1L\02\00\93\d5\01\00\01M\02\00\94\d5\01\00!M\02\00\95\d5\01\00AM\02\00\96\d5\01\00aM\02\00\97\d5\01\00\81M\02\00\98\d5\01\00\a1M\02\00\99\d5\01\00\c1M\02\00\9a\d5\01\00\e1M\02\00\9b\d5\01\00\01N\02\00\9c\d5\01\00!N\02\00\9d\d5\01\00AN\02\00\9e\d5\01\00aN\02\00\9f\d5\01\00\81N\02\00\a0\d5\01\00\a1N\02\00\a1\d5\01\00\c1N\02\00\a2\d5\01\00\e1N\02\00\a3\d5\01\00\01O\02\00\a4\d5\01\00!O\02\00\a5\d5\01\00AO\02\00\a6\d5\01\00aO\02\00\a7\d5\01\00\81O\02\00\a8\d5\01\00\a1O\02\00\a9\d5\01\00\c1O\02\00\aa\d5\01\00\e1O\02\00\ab\d5\01\00\01P\02\00\ac\d5\01\00!P\02\00\ad\d5\01\00AP\02\00\ae\d5\01\00aP\02\00\af\d5\01\00\81P\02\00\b0\d5\01\00\a1P\02\00\b1\d5\01\00\c1P\02\00\b2\d5\01\00\e1P\02\00\b3\d5\01\00\01Q\02\00\b4\d5\01\00!Q\02\00\b5\d5\01\00AQ\02\00\b6\d5\01\00aQ\02\00\b7\d5\01\00\81Q\02\00\b8\d5\01\00\a1Q\02\00\b9\d5\01\00\c1Q\02\00\ba\d5\01\00\e1Q\02\00\bb\d5\01\00\01R\02\00\bc\d5\01\00!R\02\00\bd\d5\01\00AR\02\00\be\d5\01\00aR\02\00\bf\d5\01\00\81R\02\00\c0\d5\01\00\a1R\02\00\c1\d5\01\00\c1R\02\00\c2\d5\01\00\e1R\02\00\c3\d5\01\00\01S\02\00\c4\d5\01\00!S\02\00\c5\d5\01\00AS\02\00\c6\d5\01\00aS\02\00\c7\d5\01\00\81S\02\00\c8\d5\01\00\a1S\02\00\c9\d5\01\00\c1S\02\00\ca\d5\01\00\e1S\02\00\cb\d5\01\00\01T\02\00\cc\d5\01\00!T\02\00\cd\d5\01\00AT\02\00\ce\d5\01\00aT\02\00\cf\d5\01\00\81T\02\00\d0\d5\01\00\a1T\02\00\d1\d5\01\00\c1T\02\00\d2\d5\01\00\e1T\02\00\d3\d5\01\00\01U\02\00\d4\d5\01\00!U\02\00\d5\d5\01\00AU\02\00\d6\d5\01\00aU\02\00\d7\d5\01\00\81U\02\00\d8\d5\01\00\a1U\02\00\d9\d5\01\00\c1U\02\00\da\d5\01\00\e1U\02\00\db\d5\01\00\01V\02\00\dc\d5\01\00!V\02\00\dd\d5\01\00AV\02\00\de\d5\01\00aV\02\00\df\d5\01\00\81V\02\00\e0\d5\01\00\a1V\02\00\e1\d5\01\00\c1V\02\00\e2\d5\01\00\e1V\02\00\e3\d5\01\00\01W\02\00\e4\d5\01\00!W\02\00\e5\d5\01\00AW\02\00\e6\d5\01\00aW\02\00\e7\d5\01\00\81W\02\00\e8\d5\01\00\a1W\02\00\e9\d5\01\00\c1W\02\00\ea\d5\01\00\e1W\02\00\eb\d5\01\00\01X\02\00\ec\d5\01\00!X\02\00\ed\d5\01\00AX\02\00\ee\d5\01\00aX\02\00\ef\d5\01\00\81X\02\00\f0\d5\01\00\a1X\02\00\f1\d5\01\00\c1X\02\00\f2\d5\01\00\e1X\02\00\f3\d5\01\00\01Y\02\00\f4\d5\01\00!Y\02\00\f5\d5\01\00AY\02\00\f6\d5\01\00aY\02\00\f7\d5\01\00\81Y\02\00\f8\d5\01\00\a1Y\02\00\f9\d5\01\00\c1Y\02\00\fa\d5\01\00\e1Y\02\00\fb\d5\01\00\01Z\02\00\fc\d5\01\00!Z\02\00\fd\d5\01\00AZ\02\00\fe\d5\01\00aZ\02\00\ff\d5\01\00\81Z\02\00\00\d6\01\00\a1Z\02\00\01\d6\01\00\c1Z\02\00\02\d6\01\00\e1Z\02\00\03\d6\01\00\01[\02\00\04\d6\01\00![\02\00\05\d6\01\00A[\02\00\06\d6\01\00a[\02\00\07\d6\01\00\81[\02\00\08\d6\01\00\a1[\02\00\t\d6\01\00\c1[\02\00\n\d6\01\00\e1[\02\00\0b\d6\01\00\01\\\02\00\0c\d6\01\00!\\\02\00\0d\d6\01\00A\\\02\00\0e\d6\01\00a\\\02\00\0f\d6\01\00\81\\\02\00\10\d6\01\00\a1\\\02\00\11\d6\01\00\c1\\\02\00\12\d6\01\00\e1\\\02\00\13\d6\01\00\01]\02\00\14\d6\01\00!]\02\00\15\d6\01\00A]\02\00\16\d6\01\00a]\02\00\17\d6\01\00\81]\02\00\18\d6\01\00\a1]\02\00\19\d6\01\00\c1]\02\00\1a\d6\01\00\e1]\02\00\1b\d6\01\00\01^\02\00\1c\d6\01\00!^\02\00\1d\d6\01\00A^\02\00\1e\d6\01\00a^\02\00\1f\d6\01\00\81^\02\00 \d6\01\00\a1^\02\00!\d6\01\00\c1^\02\00\"\d6\01\00\e1^\02\00#\d6\01\00\01_\02\00$\d6\01\00!_\02\00%\d6\01\00A_\02\00&\d6\01\00a_\02\00\'\d6\01\00\81_\02\00(\d6\01\00\a1_\02\00)\d6\01\00\c1_\02\00*\d6\01\00\e1_\02\00+\d6\01\00\01`\02\00,\d6\01\00!`\02\00-\d6\01\00A`\02\00.\d6\01\00a`\02\00/\d6\01\00\81`\02\000\d6\01\00\a1`\02\001\d6\01\00\c1`\02\002\d6\01\00\e1`\02\003\d6\01\00\01a\02\004\d6\01\00!a\02\005\d6\01\00Aa\02\006\d6\01\00aa\02\007\d6\01\00\81a\02\008\d6\01\00\a1a\02\009\d6\01\00\c1a\02\00:\d6\01\00\e1a\02\00;\d6\01\00\01b\02\00<\d6\01\00!b\02\00=\d6\01\00Ab\02\00>\d6\01\00ab\02\00?\d6\01\00\81b\02\00@\d6\01\00\a1b\02\00A\d6\01\00\c1b\02\00B\d6\01\00\e1b\02\00C\d6\01\00\01c\02\00D\d6\01\00!c\02\00E\d6\01\00Ac\02\00F\d6\01\00ac\02\00G\d6\01\00\81c\02\00H\d6\01\00\a1c\02\00I\d6\01\00\c1c\02\00J\d6\01\00\e1c\02\00K\d6\01\00\01d\02\00L\d6\01\00!d\02\00M\d6\01\00Ad\02\00N\d6\01\00ad\02\00O\d6\01\00\81d\02\00P\d6\01\00\a1d\02\00Q\d6\01\00\c1d\02\00R\d6\01\00\e1d\02\00S\d6\01\00\01e\02\00T\d6\01\00!e\02\00U\d6\01\00Ae\02\00V\d6\01\00ae\02\00W\d6\01\00\81e\02\00X\d6\01\00\a1e\02\00Y\d6\01\00\c1e\02\00Z\d6\01\00\e1e\02\00[\d6\01\00\01f\02\00\\\d6\01\00!f\02\00]\d6\01\00Af\02\00^\d6\01\00af\02\00_\d6\01\00\81f\02\00`\d6\01\00\a1f\02\00a\d6\01\00\c1f\02\00b\d6\01\00\e1f\02\00c\d6\01\00\01g\02\00d\d6\01\00!g\02\00e\d6\01\00Ag\02\00f\d6\01\00ag\02\00g\d6\01\00\81g\02\00h\d6\01\00\a1g\02\00i\d6\01\00\c1g\02\00j\d6\01\00\e1g\02\00k\d6\01\00\01h\02\00l\d6\01\00!h\02\00m\d6\01\00Ah\02\00n\d6\01\00ah\02\00o\d6\01\00\81h\02\00p\d6\01\00\a1h\02\00q\d6\01\00\c1h\02\00r\d6\01\00\e1h\02\00s\d6\01\00\01i\02\00t\d6\01\00!i\02\00u\d6\01\00Ai\02\00v\d6\01\00ai\02\00w\d6\01\00\81i\02\00x\d6\01\00\a1i\02\00y\d6\01\00\c1i\02\00z\d6\01\00\e1i\02\00{\d6\01\00\01j\02\00|\d6\01\00!j\02\00}\d6\01\00Aj\02\00~\d6\01\00aj\02\00\7f\d6\01\00\81j\02\00\80\d6\01\00\a1j\02\00\81\d6\01\00\c1j\02\00\82\d6\01\00\e1j\02\00\83\d6\01\00\01k\02\00\84\d6\01\00!k\02\00\85\d6\01\00Ak\02\00\86\d6\01\00ak\02\00\87\d6\01\00\81k\02\00\88\d6\01\00\a1k\02\00\89\d6\01\00\c1k\02\00\8a\d6\01\00\e1k\02\00\8b\d6\01\00\01l\02\00\8c\d6\01\00!l\02\00\8d\d6\01\00Al\02\00\8e\d6\01\00al\02\00\8f\d6\01\00\81l\02\00\90\d6\01\00\a1l\02\00\91\d6\01\00\c1l\02\00\92\d6\01\00\e1l\02\00\93\d6\01\00\01m\02\00\94\d6\01\00!m\02\00\95\d6\01\00Am\02\00\96\d6\01\00am\02\00\97\d6\01\00\81m\02\00\98\d6\01\00\a1m\02\00\99\d6\01\00\c1m\02\00\9a\d6\01\00\e1m\02\00\9b\d6\01\00\01n\02\00\9c\d6\01\00!n\02\00\9d\d6\01\00An\02\00\9e\d6\01\00an\02\00\9f\d6\01\00\81n\02\00\a0\d6\01\00\a1n\02\00\a1\d6\01\00\c1n\02\00\a2\d6\01\00\e1n\02\00\a3\d6\01\00\01o\02\00\a4\d6\01\00!o\02\00\a5\d6\01\00Ao\02\00\a8\d6\01\00ao\02\00\a9\d6\01\00\81o\02\00\aa\d6\01\00\a1o\02\00\ab\d6\01\00\c1o\02\00\ac\d6\01\00\e1o\02\00\ad\d6\01\00\01p\02\00\ae\d6\01\00!p\02\00\af\d6\01\00Ap\02\00\b0\d6\01\00ap\02\00\b1\d6\01\00\81p\02\00\b2\d6\01\00\a1p\02\00\b3\d6\01\00\c1p\02\00\b4\d6\01\00\e1p\02\00\b5\d6\01\00\01q\02\00\b6\d6\01\00!q\02\00\b7\d6\01\00Aq\02\00\b8\d6\01\00aq\02\00\b9\d6\01\00\81q\02\00\ba\d6\01\00\a1q\02\00\bb\d6\01\00\c1q\02\00\bc\d6\01\00\e1q\02\00\bd\d6\01\00\01r\02\00\be\d6\01\00!r\02\00\bf\d6\01\00Ar\02\00\c0\d6\01\00ar\02\00\c1\d6\01\00\81r\02\00\c2\d6\01\00\a1r\02\00\c3\d6\01\00\c1r\02\00\c4\d6\01\00\e1r\02\00\c5\d6\01\00\01s\02\00\c6\d6\01\00!s\02\00\c7\d6\01\00As\02\00\c8\d6\01\00as\02\00\c9\d6\01\00\81s\02\00\ca\d6\01\00\a1s\02\00\cb\d6\01\00\c1s\02\00\cc\d6\01\00\e1s\02\00\cd\d6\01\00\01t\02\00\ce\d6\01\00!t\02\00\cf\d6\01\00At\02\00\d0\d6\01\00at\02\00\d1\d6\01\00\81t\02\00\d2\d6\01\00\a1t\02\00\d3\d6\01\00\c1t\02\00\d4\d6\01\00\e1t\02\00\d5\d6\01\00\01u\02\00\d6\d6\01\00!u\02\00\d7\d6\01\00Au\02\00\d8\d6\01\00au\02\00\d9\d6\01\00\81u\02\00\da\d6\01\00\a1u\02\00\db\d6\01\00\c1u\02\00\dc\d6\01\00\e1u\02\00\dd\d6\01\00\01v\02\00\de\d6\01\00!v\02\00\df\d6\01\00Av\02\00\e0\d6\01\00av\02\00\e1\d6\01\00\81v\02\00\e2\d6\01\00\a1v\02\00\e3\d6\01\00\c1v\02\00\e4\d6\01\00\e1v\02\00\e5\d6\01\00\01w\02\00\e6\d6\01\00!w\02\00\e7\d6\01\00Aw\02\00\e8\d6\01\00aw\02\00\e9\d6\01\00\81w\02\00\ea\d6\01\00\a1w\02\00\eb\d6\01\00\c1w\02\00\ec\d6\01\00\e1w\02\00\ed\d6\01\00\01x\02\00\ee\d6\01\00!x\02\00\ef\d6\01\00Ax\02\00\f0\d6\01\00ax\02\00\f1\d6\01\00\81x\02\00\f2\d6\01\00\a1x\02\00\f3\d6\01\00\c1x\02\00\f4\d6\01\00\e1x\02\00\f5\d6\01\00\01y\02\00\f6\d6\01\00!y\02\00\f7\d6\01\00Ay\02\00\f8\d6\01\00ay\02\00\f9\d6\01\00\81y\02\00\fa\d6\01\00\a1y\02\00\fb\d6\01\00\c1y\02\00\fc\d6\01\00\e1y\02\00\fd\d6\01\00\01z\02\00\fe\d6\01\00!z\02\00\ff\d6\01\00Az\02\00\00\d7\01\00az\02\00\01\d7\01\00\81z\02\00\02\d7\01\00\a1z\02\00\03\d7\01\00\c1z\02\00\04\d7\01\00\e1z\02\00\05\d7\01\00\01{\02\00\06\d7\01\00!{\02\00\07\d7\01\00A{\02\00\08\d7\01\00a{\02\00\t\d7\01\00\81{\02\00\n\d7\01\00\a1{\02\00\0b\d7\01\00\c1{\02\00\0c\d7\01\00\e1{\02\00\0d\d7\01\00\01|\02\00\0e\d7\01\00!|\02\00\0f\d7\01\00A|\02\00\10\d7\01\00a|\02\00\11\d7\01\00\81|\02\00\12\d7\01\00\a1|\02\00\13\d7\01\00\c1|\02\00\14\d7\01\00\e1|\02\00\15\d7\01\00\01}\02\00\16\d7\01\00!}\02\00\17\d7\01\00A}\02\00\18\d7\01\00a}\02\00\19\d7\01\00\81}\02\00\1a\d7\01\00\a1}\02\00\1b\d7\01\00\c1}\02\00\1c\d7\01\00\e1}\02\00\1d\d7\01\00\01~\02\00\1e\d7\01\00!~\02\00\1f\d7\01\00A~\02\00 \d7\01\00a~\02\00!\d7\01\00\81~\02\00\"\d7\01\00\a1~\02\00#\d7\01\00\c1~\02\00$\d7\01\00\e1~\02\00%\d7\01\00\01\7f\02\00&\d7\01\00!\7f\02\00\'\d7\01\00A\7f\02\00(\d7\01\00a\7f\02\00)\d7\01\00\81\7f\02\00*\d7\01\00\a1\7f\02\00+\d7\01\00\c1\7f\02\00,\d7\01\00\e1\7f\02\00-\d7\01\00\01\80\02\00.\d7\01\00!\80\02\00/\d7\01\00A\80\02\000\d7\01\00a\80\02\001\d7\01\00\81\80\02\002\d7\01\00\a1\80\02\003\d7\01\00\c1\80\02\004\d7\01\00\e1\80\02\005\d7\01\00\01\81\02\006\d7\01\00!\81\02\007\d7\01\00A\81\02\008\d7\01\00a\81\02\009\d7\01\00\81\81\02\00:\d7\01\00\a1\81\02\00;\d7\01\00\c1\81\02\00<\d7\01\00\e1\81\02\00=\d7\01\00\01\82\02\00>\d7\01\00!\82\02\00?\d7\01\00A\82\02\00@\d7\01\00a\82\02\00A\d7\01\00\81\82\02\00B\d7\01\00\a1\82\02\00C\d7\01\00\c1\82\02\00D\d7\01\00\e1\82\02\00E\d7\01\00\01\83\02\00F\d7\01\00!\83\02\00G\d7\01\00A\83\02\00H\d7\01\00a\83\02\00I\d7\01\00\81\83\02\00J\d7\01\00\a1\83\02\00K\d7\01\00\c1\83\02\00L\d7\01\00\e1\83\02\00M\d7\01\00\01\84\02\00N\d7\01\00!\84\02\00O\d7\01\00A\84\02\00P\d7\01\00a\84\02\00Q\d7\01\00\81\84\02\00R\d7\01\00\a1\84\02\00S\d7\01\00\c1\84\02\00T\d7\01\00\e1\84\02\00U\d7\01\00\01\85\02\00V\d7\01\00!\85\02\00W\d7\01\00A\85\02\00X\d7\01\00a\85\02\00Y\d7\01\00\81\85\02\00Z\d7\01\00\a1\85\02\00[\d7\01\00\c1\85\02\00\\\d7\01\00\e1\85\02\00]\d7\01\00\01\86\02\00^\d7\01\00!\86\02\00_\d7\01\00A\86\02\00`\d7\01\00a\86\02\00a\d7\01\00\81\86\02\00b\d7\01\00\a1\86\02\00c\d7\01\00\c1\86\02\00d\d7\01\00\e1\86\02\00e\d7\01\00\01\87\02\00f\d7\01\00!\87\02\00g\d7\01\00A\87\02\00h\d7\01\00a\87\02\00i\d7\01\00\81\87\02\00j\d7\01\00\a1\87\02\00k\d7\01\00\c1\87\02\00l\d7\01\00\e1\87\02\00m\d7\01\00\01\88\02\00n\d7\01\00!\88\02\00o\d7\01\00A\88\02\00p\d7\01\00a\88\02\00q\d7\01\00\81\88\02\00r\d7\01\00\a1\88\02\00s\d7\01\00\c1\88\02\00t\d7\01\00\e1\88\02\00u\d7\01\00\01\89\02\00v\d7\01\00!\89\02\00w\d7\01\00A\89\02\00x\d7\01\00a\89\02\00y\d7\01\00\81\89\02\00z\d7\01\00\a1\89\02\00{\d7\01\00\c1\89\02\00|\d7\01\00\e1\89\02\00}\d7\01\00\01\8a\02\00~\d7\01\00!\8a\02\00\7f\d7\01\00A\8a\02\00\80\d7\01\00a\8a\02\00\81\d7\01\00\81\8a\02\00\82\d7\01\00\a1\8a\02\00\83\d7\01\00\c1\8a\02\00\84\d7\01\00\e1\8a\02\00\85\d7\01\00\01\8b\02\00\86\d7\01\00!\8b\02\00\87\d7\01\00A\8b\02\00\88\d7\01\00a\8b\02\00\89\d7\01\00\81\8b\02\00\8a\d7\01\00\a1\8b\02\00\8b\d7\01\00\c1\8b\02\00\8c\d7\01\00\e1\8b\02\00\8d\d7\01\00\01\8c\02\00\8e\d7\01\00!\8c\02\00\8f\d7\01\00A\8c\02\00\90\d7\01\00a\8c\02\00\91\d7\01\00\81\8c\02\00\92\d7\01\00\a1\8c\02\00\93\d7\01\00\c1\8c\02\00\94\d7\01\00\e1\8c\02\00\95\d7\01\00\01\8d\02\00\96\d7\01\00!\8d\02\00\97\d7\01\00A\8d\02\00\98\d7\01\00a\8d\02\00\99\d7\01\00\81\8d\02\00\9a\d7\01\00\a1\8d\02\00\9b\d7\01\00\c1\8d\02\00\9c\d7\01\00\e1\8d\02\00\9d\d7\01\00\01\8e\02\00\9e\d7\01\00!\8e\02\00\9f\d7\01\00A\8e\02\00\a0\d7\01\00a\8e\02\00\a1\d7\01\00\81\8e\02\00\a2\d7\01\00\a1\8e\02\00\a3\d7\01\00\c1\8e\02\00\a4\d7\01\00\e1\8e\02\00\a5\d7\01\00\01\8f\02\00\a6\d7\01\00!\8f\02\00\a7\d7\01\00A\8f\02\00\a8\d7\01\00a\8f\02\00\a9\d7\01\00\81\8f\02\00\aa\d7\01\00\a1\8f\02\00\ab\d7\01\00\c1\8f\02\00\ac\d7\01\00\e1\8f\02\00\ad\d7\01\00\01\90\02\00\ae\d7\01\00!\90\02\00\af\d7\01\00A\90\02\00\b0\d7\01\00a\90\02\00\b1\d7\01\00\81\90\02\00\b2\d7\01\00\a1\90\02\00\b3\d7\01\00\c1\90\02\00\b4\d7\01\00\e1\90\02\00\b5\d7\01\00\01\91\02\00\b6\d7\01\00!\91\02\00\b7\d7\01\00A\91\02\00\b8\d7\01\00a\91\02\00\b9\d7\01\00\81\91\02\00\ba\d7\01\00\a1\91\02\00\bb\d7\01\00\c1\91\02\00\bc\d7\01\00\e1\91\02\00\bd\d7\01\00\01\92\02\00\be\d7\01\00!\92\02\00\bf\d7\01\00A\92\02\00\c0\d7\01\00a\92\02\00\c1\d7\01\00\81\92\02\00\c2\d7\01\00\a1\92\02\00\c3\d7\01\00\c1\92\02\00\c4\d7\01\00\e1\92\02\00\c5\d7\01\00\01\93\02\00\c6\d7\01\00!\93\02\00\c7\d7\01\00A\93\02\00\c8\d7\01\00a\93\02\00\c9\d7\01\00\81\93\02\00\ca\d7\01\00\a1\93\02\00\cb\d7\01\00\c1\93\02\00\ce\d7\01\00\e1\93\02\00\cf\d7\01\00\01\94\02\00\d0\d7\01\00!\94\02\00\d1\d7\01\00A\94\02\00\d2\d7\01\00a\94\02\00\d3\d7\01\00\81\94\02\00\d4\d7\01\00\a1\94\02\00\d5\d7\01\00\c1\94\02\00\d6\d7\01\00\e1\94\02\00\d7\d7\01\00\01\95\02\00\d8\d7\01\00!\95\02\00\d9\d7\01\00A\95\02\00\da\d7\01\00a\95\02\00\db\d7\01\00\81\95\02\00\dc\d7\01\00\a1\95\02\00\dd\d7\01\00\c1\95\02\00\de\d7\01\00\e1\95\02\00\df\d7\01\00\01\96\02\00\e0\d7\01\00!\96\02\00\e1\d7\01\00A\96\02\00\e2\d7\01\00a\96\02\00\e3\d7\01\00\81\96\02\00\e4\d7\01\00\a1\96\02\00\e5\d7\01\00\c1\96\02\00\e6\d7\01\00\e1\96\02\00\e7\d7\01\00\01\97\02\00\e8\d7\01\00!\97\02\00\e9\d7\01\00A\97\02\00\ea\d7\01\00a\97\02\00\eb\d7\01\00\81\97\02\00\ec\d7\01\00\a1\97\02\00\ed\d7\01\00\c1\97\02\00\ee\d7\01\00\e1\97\02\00\ef\d7\01\00\01\98\02\00\f0\d7\01\00!\98\02\00\f1\d7\01\00A\98\02\00\f2\d7\01\00a\98\02\00\f3\d7\01\00\81\98\02\00\f4\d7\01\00\a1\98\02\00\f5\d7\01\00\c1\98\02\00\f6\d7\01\00\e1\98\02\00\f7\d7\01\00\01\99\02\00\f8\d7\01\00!\99\02\00\f9\d7\01\00A\99\02\00\fa\d7\01\00a\99\02\00\fb\d7\01\00\81\99\02\00\fc\d7\01\00\a1\99\02\00\fd\d7\01\00\c1\99\02\00\fe\d7\01\00\e1\99\02\00\ff\d7\01\00\01\9a\02\000\e0\01\00!\9a\02\001\e0\01\00A\9a\02\002\e0\01\00a\9a\02\003\e0\01\00\81\9a\02\004\e0\01\00\a1\9a\02\005\e0\01\00\c1\9a\02\006\e0\01\00\e1\9a\02\007\e0\01\00\01\9b\02\008\e0\01\00!\9b\02\009\e0\01\00A\9b\02\00:\e0\01\00a\9b\02\00;\e0\01\00\81\9b\02\00<\e0\01\00\a1\9b\02\00=\e0\01\00\c1\9b\02\00>\e0\01\00\e1\9b\02\00?\e0\01\00\01\9c\02\00@\e0\01\00!\9c\02\00A\e0\01\00A\9c\02\00B\e0\01\00a\9c\02\00C\e0\01\00\81\9c\02\00D\e0\01\00\a1\9c\02\00E\e0\01\00\c1\9c\02\00F\e0\01\00\e1\9c\02\00G\e0\01\00\01\9d\02\00H\e0\01\00!\9d\02\00I\e0\01\00A\9d\02\00J\e0\01\00a\9d\02\00K\e0\01\00\81\9d\02\00L\e0\01\00\a1\9d\02\00M\e0\01\00\c1\9d\02\00N\e0\01\00\e1\9d\02\00O\e0\01\00\01\9e\02\00P\e0\01\00!\9e\02\00Q\e0\01\00A\9e\02\00R\e0\01\00a\9e\02\00S\e0\01\00\81\9e\02\00T\e0\01\00\a1\9e\02\00U\e0\01\00\c1\9e\02\00V\e0\01\00\e1\9e\02\00W\e0\01\00\01\9f\02\00X\e0\01\00!\9f\02\00Y\e0\01\00A\9f\02\00Z\e0\01\00a\9f\02\00[\e0\01\00\81\9f\02\00\\\e0\01\00\a1\9f\02\00]\e0\01\00\c1\9f\02\00^\e0\01\00\e1\9f\02\00_\e0\01\00\01\a0\02\00`\e0\01\00!\a0\02\00a\e0\01\00A\a0\02\00b\e0\01\00a\a0\02\00c\e0\01\00\81\a0\02\00d\e0\01\00\a1\a0\02\00e\e0\01\00\c1\a0\02\00f\e0\01\00\e1\a0\02\00g\e0\01\00\01\a1\02\00h\e0\01\00!\a1\02\00i\e0\01\00A\a1\02\00j\e0\01\00a\a1\02\00k\e0\01\00\81\a1\02\00l\e0\01\00\a1\a1\02\00m\e0\01\00\c1\a1\02\00\00\ee\01\00\e1\a1\02\00\01\ee\01\00\01\a2\02\00\02\ee\01\00!\a2\02\00\03\ee\01\00A\a2\02\00\05\ee\01\00a\a2\02\00\06\ee\01\00\81\a2\02\00\07\ee\01\00\a1\a2\02\00\08\ee\01\00\c1\a2\02\00\t\ee\01\00\e1\a2\02\00\n\ee\01\00\01\a3\02\00\0b\ee\01\00!\a3\02\00\0c\ee\01\00A\a3\02\00\0d\ee\01\00a\a3\02\00\0e\ee\01\00\81\a3\02\00\0f\ee\01\00\a1\a3\02\00\10\ee\01\00\c1\a3\02\00\11\ee\01\00\e1\a3\02\00\12\ee\01\00\01\a4\02\00\13\ee\01\00!\a4\02\00\14\ee\01\00A\a4\02\00\15\ee\01\00a\a4\02\00\16\ee\01\00\81\a4\02\00\17\ee\01\00\a1\a4\02\00\18\ee\01\00\c1\a4\02\00\19\ee\01\00\e1\a4\02\00\1a\ee\01\00\01\a5\02\00\1b\ee\01\00!\a5\02\00\1c\ee\01\00A\a5\02\00\1d\ee\01\00a\a5\02\00\1e\ee\01\00\81\a5\02\00\1f\ee\01\00\a1\a5\02\00!\ee\01\00\c1\a5\02\00\"\ee\01\00\e1\a5\02\00$\ee\01\00\01\a6\02\00\'\ee\01\00!\a6\02\00)\ee\01\00A\a6\02\00*\ee\01\00a\a6\02\00+\ee\01\00\81\a6\02\00,\ee\01\00\a1\a6\02\00-\ee\01\00\c1\a6\02\00.\ee\01\00\e1\a6\02\00/\ee\01\00\01\a7\02\000\ee\01\00!\a7\02\001\ee\01\00A\a7\02\002\ee\01\00a\a7\02\004\ee\01\00\81\a7\02\005\ee\01\00\a1\a7\02\006\ee\01\00\c1\a7\02\007\ee\01\00\e1\a7\02\009\ee\01\00\01\a8\02\00;\ee\01\00!\a8\02\00B\ee\01\00A\a8\02\00G\ee\01\00a\a8\02\00I\ee\01\00\81\a8\02\00K\ee\01\00\a1\a8\02\00M\ee\01\00\c1\a8\02\00N\ee\01\00\e1\a8\02\00O\ee\01\00\01\a9\02\00Q\ee\01\00!\a9\02\00R\ee\01\00A\a9\02\00T\ee\01\00a\a9\02\00W\ee\01\00\81\a9\02\00Y\ee\01\00\a1\a9\02\00[\ee\01\00\c1\a9\02\00]\ee\01\00\e1\a9\02\00_\ee\01\00\01\aa\02\00a\ee\01\00!\aa\02\00b\ee\01\00A\aa\02\00d\ee\01\00a\aa\02\00g\ee\01\00\81\aa\02\00h\ee\01\00\a1\aa\02\00i\ee\01\00\c1\aa\02\00j\ee\01\00\e1\aa\02\00l\ee\01\00\01\ab\02\00m\ee\01\00!\ab\02\00n\ee\01\00A\ab\02\00o\ee\01\00a\ab\02\00p\ee\01\00\81\ab\02\00q\ee\01\00\a1\ab\02\00r\ee\01\00\c1\ab\02\00t\ee\01\00\e1\ab\02\00u\ee\01\00\01\ac\02\00v\ee\01\00!\ac\02\00w\ee\01\00A\ac\02\00y\ee\01\00a\ac\02\00z\ee\01\00\81\ac\02\00{\ee\01\00\a1\ac\02\00|\ee\01\00\c1\ac\02\00~\ee\01\00\e1\ac\02\00\80\ee\01\00\01\ad\02\00\81\ee\01\00!\ad\02\00\82\ee\01\00A\ad\02\00\83\ee\01\00a\ad\02\00\84\ee\01\00\81\ad\02\00\85\ee\01\00\a1\ad\02\00\86\ee\01\00\c1\ad\02\00\87\ee\01\00\e1\ad\02\00\88\ee\01\00\01\ae\02\00\89\ee\01\00!\ae\02\00\8b\ee\01\00A\ae\02\00\8c\ee\01\00a\ae\02\00\8d\ee\01\00\81\ae\02\00\8e\ee\01\00\a1\ae\02\00\8f\ee\01\00\c1\ae\02\00\90\ee\01\00\e1\ae\02\00\91\ee\01\00\01\af\02\00\92\ee\01\00!\af\02\00\93\ee\01\00A\af\02\00\94\ee\01\00a\af\02\00\95\ee\01\00\81\af\02\00\96\ee\01\00\a1\af\02\00\97\ee\01\00\c1\af\02\00\98\ee\01\00\e1\af\02\00\99\ee\01\00\01\b0\02\00\9a\ee\01\00!\b0\02\00\9b\ee\01\00A\b0\02\00\a1\ee\01\00a\b0\02\00\a2\ee\01\00\81\b0\02\00\a3\ee\01\00\a1\b0\02\00\a5\ee\01\00\c1\b0\02\00\a6\ee\01\00\e1\b0\02\00\a7\ee\01\00\01\b1\02\00\a8\ee\01\00!\b1\02\00\a9\ee\01\00A\b1\02\00\ab\ee\01\00a\b1\02\00\ac\ee\01\00\81\b1\02\00\ad\ee\01\00\a1\b1\02\00\ae\ee\01\00\c1\b1\02\00\af\ee\01\00\e1\b1\02\00\b0\ee\01\00\01\b2\02\00\b1\ee\01\00!\b2\02\00\b2\ee\01\00A\b2\02\00\b3\ee\01\00a\b2\02\00\b4\ee\01\00\81\b2\02\00\b5\ee\01\00\a1\b2\02\00\b6\ee\01\00\c1\b2\02\00\b7\ee\01\00\e1\b2\02\00\b8\ee\01\00\01\b3\02\00\b9\ee\01\00!\b3\02\00\ba\ee\01\00A\b3\02\00\bb\ee\01\00a\b3\02\00\00\f1\01\00\82\b3\02\00\01\f1\01\00\c2\b3\02\00\02\f1\01\00\02\b4\02\00\03\f1\01\00B\b4\02\00\04\f1\01\00\82\b4\02\00\05\f1\01\00\c2\b4\02\00\06\f1\01\00\02\b5\02\00\07\f1\01\00B\b5\02\00\08\f1\01\00\82\b5\02\00\t\f1\01\00\c2\b5\02\00\n\f1\01\00\02\b6\02\00\10\f1\01\00C\b6\02\00\11\f1\01\00\a3\b6\02\00\12\f1\01\00\03\b7\02\00\13\f1\01\00c\b7\02\00\14\f1\01\00\c3\b7\02\00\15\f1\01\00#\b8\02\00\16\f1\01\00\83\b8\02\00\17\f1\01\00\e3\b8\02\00\18\f1\01\00C\b9\02\00\19\f1\01\00\a3\b9\02\00\1a\f1\01\00\03\ba\02\00\1b\f1\01\00c\ba\02\00\1c\f1\01\00\c3\ba\02\00\1d\f1\01\00#\bb\02\00\1e\f1\01\00\83\bb\02\00\1f\f1\01\00\e3\bb\02\00 \f1\01\00C\bc\02\00!\f1\01\00\a3\bc\02\00\"\f1\01\00\03\bd\02\00#\f1\01\00c\bd\02\00$\f1\01\00\c3\bd\02\00%\f1\01\00#\be\02\00&\f1\01\00\83\be\02\00\'\f1\01\00\e3\be\02\00(\f1\01\00C\bf\02\00)\f1\01\00\a3\bf\02\00*\f1\01\00\03\c0\02\00+\f1\01\00a\c0\02\00,\f1\01\00\81\c0\02\00-\f1\01\00\a2\c0\02\00.\f1\01\00\e2\c0\02\000\f1\01\00!\c1\02\001\f1\01\00A\c1\02\002\f1\01\00a\c1\02\003\f1\01\00\81\c1\02\004\f1\01\00\a1\c1\02\005\f1\01\00\c1\c1\02\006\f1\01\00\e1\c1\02\007\f1\01\00\01\c2\02\008\f1\01\00!\c2\02\009\f1\01\00A\c2\02\00:\f1\01\00a\c2\02\00;\f1\01\00\81\c2\02\00<\f1\01\00\a1\c2\02\00=\f1\01\00\c1\c2\02\00>\f1\01\00\e1\c2\02\00?\f1\01\00\01\c3\02\00@\f1\01\00!\c3\02\00A\f1\01\00A\c3\02\00B\f1\01\00a\c3\02\00C\f1\01\00\81\c3\02\00D\f1\01\00\a1\c3\02\00E\f1\01\00\c1\c3\02\00F\f1\01\00\e1\c3\02\00G\f1\01\00\01\c4\02\00H\f1\01\00!\c4\02\00I\f1\01\00A\c4\02\00J\f1\01\00b\c4\02\00K\f1\01\00\a2\c4\02\00L\f1\01\00\e2\c4\02\00M\f1\01\00\"\c5\02\00N\f1\01\00c\c5\02\00O\f1\01\00\c2\c5\02\00j\f1\01\00\02\c6\02\00k\f1\01\00B\c6\02\00l\f1\01\00\82\c6\02\00\90\f1\01\00\c2\c6\02\00\00\f2\01\00\02\c7\02\00\01\f2\01\00B\c7\02\00\02\f2\01\00\81\c7\02\00\10\f2\01\00\a1\c7\02\00\11\f2\01\00\c1\c7\02\00\12\f2\01\00\e1\c7\02\00\13\f2\01\00\02\c8\02\00\14\f2\01\00A\c8\02\00\15\f2\01\00a\c8\02\00\16\f2\01\00\81\c8\02\00\17\f2\01\00\a1\c8\02\00\18\f2\01\00\c1\c8\02\00\19\f2\01\00\e1\c8\02\00\1a\f2\01\00\01\c9\02\00\1b\f2\01\00!\c9\02\00\1c\f2\01\00A\c9\02\00\1d\f2\01\00a\c9\02\00\1e\f2\01\00\81\c9\02\00\1f\f2\01\00\a1\c9\02\00 \f2\01\00\c1\c9\02\00!\f2\01\00\e1\c9\02\00\"\f2\01\00\01\ca\02\00#\f2\01\00!\ca\02\00$\f2\01\00A\ca\02\00%\f2\01\00a\ca\02\00&\f2\01\00\81\ca\02\00\'\f2\01\00\a1\ca\02\00(\f2\01\00\c1\ca\02\00)\f2\01\00\e1\ca\02\00*\f2\01\00\01\cb\02\00+\f2\01\00!\cb\02\00,\f2\01\00A\cb\02\00-\f2\01\00a\cb\02\00.\f2\01\00\81\cb\02\00/\f2\01\00\a1\cb\02\000\f2\01\00\c1\cb\02\001\f2\01\00\e1\cb\02\002\f2\01\00\01\cc\02\003\f2\01\00!\cc\02\004\f2\01\00A\cc\02\005\f2\01\00a\cc\02\006\f2\01\00\81\cc\02\007\f2\01\00\a1\cc\02\008\f2\01\00\c1\cc\02\009\f2\01\00\e1\cc\02\00:\f2\01\00\01\cd\02\00;\f2\01\00!\cd\02\00@\f2\01\00C\cd\02\00A\f2\01\00\a3\cd\02\00B\f2\01\00\03\ce\02\00C\f2\01\00c\ce\02\00D\f2\01\00\c3\ce\02\00E\f2\01\00#\cf\02\00F\f2\01\00\83\cf\02\00G\f2\01\00\e3\cf\02\00H\f2\01\00C\d0\02\00P\f2\01\00\a1\d0\02\00Q\f2\01\00\c1\d0\02\00\f0\fb\01\00\e1\d0\02\00\f1\fb\01\00\01\d1\02\00\f2\fb\01\00!\d1\02\00\f3\fb\01\00A\d1\02\00\f4\fb\01\00a\d1\02\00\f5\fb\01\00\81\d1\02\00\f6\fb\01\00\a1\d1\02\00\f7\fb\01\00\c1\d1\02\00\f8\fb\01\00\e1\d1\02\00\f9\fb\01\00\01\d2\02\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 141688) "x\a9\01\00\10\1e\00\00")
+ (data (i32.const 141696) "\"-\00\00\00\00\00\00 \00 \00\08\03a\00 \00\04\032\003\00 \00\01\03\bc\03 \00\'\031\00o\001\00D 4\001\00D 2\003\00D 4\00I\00J\00i\00j\00L\00\b7\00l\00\b7\00\bc\02n\00s\00D\00Z\00\0c\03D\00z\00\0c\03d\00z\00\0c\03L\00J\00L\00j\00l\00j\00N\00J\00N\00j\00n\00j\00D\00Z\00D\00z\00d\00z\00h\00f\02j\00r\00y\02{\02\81\02w\00y\00 \00\06\03 \00\07\03 \00\n\03 \00(\03 \00\03\03 \00\0b\03c\02l\00s\00x\00\95\02 \00E\03 \00\01\03 \00\08\03\01\03\b2\03\b8\03\a5\03\a5\03\01\03\a5\03\08\03\c6\03\c0\03\ba\03\c1\03\c2\03\98\03\b5\03\a3\03e\05\82\05\'\06t\06H\06t\06\c7\06t\06J\06t\06M\0e2\0e\cd\0e\b2\0e\ab\0e\99\0e\ab\0e\a1\0e\0b\0f\b2\0fq\0f\80\0f\b3\0fq\0f\80\0f\dc\10A\00\c6\00B\00D\00E\00\8e\01G\00H\00I\00J\00K\00L\00M\00N\00O\00\"\02P\00R\00T\00U\00W\00a\00P\02Q\02\02\1db\00d\00e\00Y\02[\02\\\02g\00k\00m\00K\01o\00T\02\16\1d\17\1dp\00t\00u\00\1d\1do\02v\00%\1d\b2\03\b3\03\b4\03\c6\03\c7\03i\00r\00u\00v\00\b2\03\b3\03\c1\03\c6\03\c7\03=\04R\02c\00U\02\f0\00\\\02f\00_\02a\02e\02h\02i\02j\02{\1d\9d\02m\02\85\1d\9f\02q\02p\02r\02s\02t\02u\02x\02\82\02\83\02\ab\01\89\02\8a\02\1c\1d\8b\02\8c\02z\00\90\02\91\02\92\02\b8\03a\00\be\02s\00\07\03 \00\13\03 \00\13\03 \00B\03 \00\08\03B\03 \00\13\03\00\03 \00\13\03\01\03 \00\13\03B\03 \00\14\03\00\03 \00\14\03\01\03 \00\14\03B\03 \00\08\03\00\03 \00\08\03\01\03 \00\01\03 \00\14\03 \00 \00 \00 \00 \00 \00 \00 \00 \00 \00 \00\10  \003\03.\00.\00.\00.\00.\00.\00 \002 2 2 2 2 5 5 5 5 5 !\00!\00 \00\05\03?\00?\00?\00!\00!\00?\002 2 2 2  \000\00i\004\005\006\007\008\009\00+\00\12\"=\00(\00)\00n\000\001\002\003\004\005\006\007\008\009\00+\00\12\"=\00(\00)\00a\00e\00o\00x\00Y\02h\00k\00l\00m\00n\00p\00s\00t\00R\00s\00a\00/\00c\00a\00/\00s\00C\00\b0\00C\00c\00/\00o\00c\00/\00u\00\90\01\b0\00F\00g\00H\00H\00H\00h\00\'\01I\00I\00L\00l\00N\00N\00o\00P\00Q\00R\00R\00R\00S\00M\00T\00E\00L\00T\00M\00Z\00Z\00B\00C\00e\00E\00F\00M\00o\00\d0\05\d1\05\d2\05\d3\05i\00F\00A\00X\00\c0\03\b3\03\93\03\a0\03\11\"D\00d\00e\00i\00j\001\00D 7\001\00D 9\001\00D 1\000\001\00D 3\002\00D 3\001\00D 5\002\00D 5\003\00D 5\004\00D 5\001\00D 6\005\00D 6\001\00D 8\003\00D 8\005\00D 8\007\00D 8\001\00D I\00I\00I\00I\00I\00I\00I\00V\00V\00V\00I\00V\00I\00I\00V\00I\00I\00I\00I\00X\00X\00X\00I\00X\00I\00I\00L\00C\00D\00M\00i\00i\00i\00i\00i\00i\00i\00v\00v\00v\00i\00v\00i\00i\00v\00i\00i\00i\00i\00x\00x\00x\00i\00x\00i\00i\00l\00c\00d\00m\000\00D 3\00+\"+\"+\"+\"+\".\".\".\".\".\"1\002\003\004\005\006\007\008\009\001\000\001\001\001\002\001\003\001\004\001\005\001\006\001\007\001\008\001\009\002\000\00(\001\00)\00(\002\00)\00(\003\00)\00(\004\00)\00(\005\00)\00(\006\00)\00(\007\00)\00(\008\00)\00(\009\00)\00(\001\000\00)\00(\001\001\00)\00(\001\002\00)\00(\001\003\00)\00(\001\004\00)\00(\001\005\00)\00(\001\006\00)\00(\001\007\00)\00(\001\008\00)\00(\001\009\00)\00(\002\000\00)\001\00.\002\00.\003\00.\004\00.\005\00.\006\00.\007\00.\008\00.\009\00.\001\000\00.\001\001\00.\001\002\00.\001\003\00.\001\004\00.\001\005\00.\001\006\00.\001\007\00.\001\008\00.\001\009\00.\002\000\00.\00(\00a\00)\00(\00b\00)\00(\00c\00)\00(\00d\00)\00(\00e\00)\00(\00f\00)\00(\00g\00)\00(\00h\00)\00(\00i\00)\00(\00j\00)\00(\00k\00)\00(\00l\00)\00(\00m\00)\00(\00n\00)\00(\00o\00)\00(\00p\00)\00(\00q\00)\00(\00r\00)\00(\00s\00)\00(\00t\00)\00(\00u\00)\00(\00v\00)\00(\00w\00)\00(\00x\00)\00(\00y\00)\00(\00z\00)\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\000\00+\"+\"+\"+\":\00:\00=\00=\00=\00=\00=\00=\00j\00V\00a-\cdk\9f\9f\00N(N6N?NYN\85N\8cN\a0N\baN?QeQkQ\82Q\96Q\abQ\e0Q\f5Q\00R\9bR\f9R\15S\1aS8SAS\\SiS\82S\b6S\c8S\e3S\d7V\1fW\ebX\02Y\nY\15Y\'YsYP[\80[\f8[\0f\\\"\\8\\n\\q\\\db]\e5]\f1]\fe]r^z^\7f^\f4^\fe^\0b_\13_P_a_s_\c3_\08b6bKb/e4e\87e\97e\a4e\b9e\e0e\e5e\f0f\08g(g kbkyk\b3k\cbk\d4k\dbk\0fl\14l4lkp*r6r;r?rGrYr[r\acr\84s\89s\dct\e6t\18u\1fu(u0u\8bu\92uvv}v\aev\bfv\eev\dbw\e2w\f3w:y\b8y\beytz\cbz\f9zs|\f8|6\7fQ\7f\8a\7f\bd\7f\01\80\0c\80\12\803\80\7f\80\89\80\e3\81\ea\81\f3\81\fc\81\0c\82\1b\82\1f\82n\82r\82x\82M\86k\86@\88L\88c\88~\89\8b\89\d2\89\00\8a7\8cF\8cU\8cx\8c\9d\8cd\8dp\8d\b3\8d\ab\8e\ca\8e\9b\8f\b0\8f\b5\8f\91\90I\91\c6\91\cc\91\d1\91w\95\80\95\1c\96\b6\96\b9\96\e8\96Q\97^\97b\97i\97\cb\97\ed\97\f3\97\01\98\a8\98\db\98\df\98\96\99\99\99\ac\99\a8\9a\d8\9a\df\9a%\9b/\9b2\9b<\9bZ\9b\e5\9cu\9e\7f\9e\a5\9e\bb\9e\c3\9e\cd\9e\d1\9e\f9\9e\fd\9e\0e\9f\13\9f \9f;\9fJ\9fR\9f\8d\9f\9c\9f\a0\9f \00\120ASDSES \00\990 \00\9a0\880\8a0\b30\c80\00\11\01\11\aa\11\02\11\ac\11\ad\11\03\11\04\11\05\11\b0\11\b1\11\b2\11\b3\11\b4\11\b5\11\1a\11\06\11\07\11\08\11!\11\t\11\n\11\0b\11\0c\11\0d\11\0e\11\0f\11\10\11\11\11\12\11a\11b\11c\11d\11e\11f\11g\11h\11i\11j\11k\11l\11m\11n\11o\11p\11q\11r\11s\11t\11u\11`\11\14\11\15\11\c7\11\c8\11\cc\11\ce\11\d3\11\d7\11\d9\11\1c\11\dd\11\df\11\1d\11\1e\11 \11\"\11#\11\'\11)\11+\11,\11-\11.\11/\112\116\11@\11G\11L\11\f1\11\f2\11W\11X\11Y\11\84\11\85\11\88\11\91\11\92\11\94\11\9e\11\a1\11\00N\8cN\tN\dbV\nN-N\0bN2uYN\19N\01N)Y0W\baN(\00\00\11)\00(\00\02\11)\00(\00\03\11)\00(\00\05\11)\00(\00\06\11)\00(\00\07\11)\00(\00\t\11)\00(\00\0b\11)\00(\00\0c\11)\00(\00\0e\11)\00(\00\0f\11)\00(\00\10\11)\00(\00\11\11)\00(\00\12\11)\00(\00\00\11a\11)\00(\00\02\11a\11)\00(\00\03\11a\11)\00(\00\05\11a\11)\00(\00\06\11a\11)\00(\00\07\11a\11)\00(\00\t\11a\11)\00(\00\0b\11a\11)\00(\00\0c\11a\11)\00(\00\0e\11a\11)\00(\00\0f\11a\11)\00(\00\10\11a\11)\00(\00\11\11a\11)\00(\00\12\11a\11)\00(\00\0c\11n\11)\00(\00\0b\11i\11\0c\11e\11\ab\11)\00(\00\0b\11i\11\12\11n\11)\00(\00\00N)\00(\00\8cN)\00(\00\tN)\00(\00\dbV)\00(\00\94N)\00(\00mQ)\00(\00\03N)\00(\00kQ)\00(\00]N)\00(\00AS)\00(\00\08g)\00(\00kp)\00(\004l)\00(\00(g)\00(\00\d1\91)\00(\00\1fW)\00(\00\e5e)\00(\00*h)\00(\00\tg)\00(\00>y)\00(\00\0dT)\00(\00yr)\00(\00\a1\8c)\00(\00]y)\00(\00\b4R)\00(\00\e3N)\00(\00|T)\00(\00f[)\00(\00\e3v)\00(\00\01O)\00(\00\c7\8c)\00(\00TS)\00(\00my)\00(\00\11O)\00(\00\ea\81)\00(\00\f3\81)\00OU|^\87e\8f{P\00T\00E\002\001\002\002\002\003\002\004\002\005\002\006\002\007\002\008\002\009\003\000\003\001\003\002\003\003\003\004\003\005\00\00\11\02\11\03\11\05\11\06\11\07\11\t\11\0b\11\0c\11\0e\11\0f\11\10\11\11\11\12\11\00\11a\11\02\11a\11\03\11a\11\05\11a\11\06\11a\11\07\11a\11\t\11a\11\0b\11a\11\0c\11a\11\0e\11a\11\0f\11a\11\10\11a\11\11\11a\11\12\11a\11\0e\11a\11\b7\11\00\11i\11\0c\11n\11\0b\11t\11\0b\11n\11\00N\8cN\tN\dbV\94NmQ\03NkQ]NAS\08gkp4l(g\d1\91\1fW\e5e*h\tg>y\0dTyr\a1\8c]y\b4R\d8y7usYi\90*QpS\e8l\05\98\11O\99Qck\nN-N\0bN\e6]\f3S;S\97[f[\e3v\01O\c7\8cTS\1cY3\006\003\007\003\008\003\009\004\000\004\001\004\002\004\003\004\004\004\005\004\006\004\007\004\008\004\009\005\000\001\00\08g2\00\08g3\00\08g4\00\08g5\00\08g6\00\08g7\00\08g8\00\08g9\00\08g1\000\00\08g1\001\00\08g1\002\00\08gH\00g\00e\00r\00g\00e\00V\00L\00T\00D\00\a20\a40\a60\a80\aa0\ab0\ad0\af0\b10\b30\b50\b70\b90\bb0\bd0\bf0\c10\c40\c60\c80\ca0\cb0\cc0\cd0\ce0\cf0\d20\d50\d80\db0\de0\df0\e00\e10\e20\e40\e60\e80\e90\ea0\eb0\ec0\ed0\ef0\f00\f10\f20\e4N\8cT\a20\cf0\9a0\fc0\c80\a20\eb0\d50\a10\a20\f30\d80\9a0\a20\a20\fc0\eb0\a40\cb0\f30\af0\990\a40\f30\c10\a60\a90\f30\a80\b90\af0\fc0\c80\990\a80\fc0\ab0\fc0\aa0\f30\b90\aa0\fc0\e00\ab0\a40\ea0\ab0\e90\c30\c80\ab0\ed0\ea0\fc0\ab0\990\ed0\f30\ab0\990\f30\de0\ad0\990\ab0\990\ad0\990\cb0\fc0\ad0\e50\ea0\fc0\ad0\990\eb0\bf0\990\fc0\ad0\ed0\ad0\ed0\af0\990\e90\e00\ad0\ed0\e10\fc0\c80\eb0\ad0\ed0\ef0\c30\c80\af0\990\e90\e00\af0\990\e90\e00\c80\f30\af0\eb0\bb0\990\a40\ed0\af0\ed0\fc0\cd0\b10\fc0\b90\b30\eb0\ca0\b30\fc0\db0\9a0\b50\a40\af0\eb0\b50\f30\c10\fc0\e00\b70\ea0\f30\af0\990\bb0\f30\c10\bb0\f30\c80\bf0\990\fc0\b90\c60\990\b70\c80\990\eb0\c80\f30\ca0\ce0\ce0\c30\c80\cf0\a40\c40\cf0\9a0\fc0\bb0\f30\c80\cf0\9a0\fc0\c40\cf0\990\fc0\ec0\eb0\d20\9a0\a20\b90\c80\eb0\d20\9a0\af0\eb0\d20\9a0\b30\d20\990\eb0\d50\a10\e90\c30\c80\990\d50\a30\fc0\c80\d50\990\c30\b70\a70\eb0\d50\e90\f30\d80\af0\bf0\fc0\eb0\d80\9a0\bd0\d80\9a0\cb0\d20\d80\eb0\c40\d80\9a0\f30\b90\d80\9a0\fc0\b70\990\d80\990\fc0\bf0\db0\9a0\a40\f30\c80\db0\990\eb0\c80\db0\f30\db0\9a0\f30\c80\990\db0\fc0\eb0\db0\fc0\f30\de0\a40\af0\ed0\de0\a40\eb0\de0\c30\cf0\de0\eb0\af0\de0\f30\b70\e70\f30\df0\af0\ed0\f30\df0\ea0\df0\ea0\cf0\990\fc0\eb0\e10\ab0\990\e10\ab0\990\c80\f30\e10\fc0\c80\eb0\e40\fc0\c80\990\e40\fc0\eb0\e60\a20\f30\ea0\c30\c80\eb0\ea0\e90\eb0\d20\9a0\fc0\eb0\fc0\d50\990\eb0\ec0\e00\ec0\f30\c80\b10\990\f30\ef0\c30\c800\00\b9p1\00\b9p2\00\b9p3\00\b9p4\00\b9p5\00\b9p6\00\b9p7\00\b9p8\00\b9p9\00\b9p1\000\00\b9p1\001\00\b9p1\002\00\b9p1\003\00\b9p1\004\00\b9p1\005\00\b9p1\006\00\b9p1\007\00\b9p1\008\00\b9p1\009\00\b9p2\000\00\b9p2\001\00\b9p2\002\00\b9p2\003\00\b9p2\004\00\b9ph\00P\00a\00d\00a\00A\00U\00b\00a\00r\00o\00V\00p\00c\00d\00m\00d\00m\002\00d\00m\003\00I\00U\00s^\10b-f\8cT\'Yck\0ef\bbl*h\0f_\1aO>yp\00A\00n\00A\00\bc\03A\00m\00A\00k\00A\00K\00B\00M\00B\00G\00B\00c\00a\00l\00k\00c\00a\00l\00p\00F\00n\00F\00\bc\03F\00\bc\03g\00m\00g\00k\00g\00H\00z\00k\00H\00z\00M\00H\00z\00G\00H\00z\00T\00H\00z\00\bc\03l\00m\00l\00d\00l\00k\00l\00f\00m\00n\00m\00\bc\03m\00m\00m\00c\00m\00k\00m\00m\00m\002\00c\00m\002\00m\002\00k\00m\002\00m\00m\003\00c\00m\003\00m\003\00k\00m\003\00m\00\15\"s\00m\00\15\"s\002\00P\00a\00k\00P\00a\00M\00P\00a\00G\00P\00a\00r\00a\00d\00r\00a\00d\00\15\"s\00r\00a\00d\00\15\"s\002\00p\00s\00n\00s\00\bc\03s\00m\00s\00p\00V\00n\00V\00\bc\03V\00m\00V\00k\00V\00M\00V\00p\00W\00n\00W\00\bc\03W\00m\00W\00k\00W\00M\00W\00k\00\a9\03M\00\a9\03a\00.\00m\00.\00B\00q\00c\00c\00c\00d\00C\00\15\"k\00g\00C\00o\00.\00d\00B\00G\00y\00h\00a\00H\00P\00i\00n\00K\00K\00K\00M\00k\00t\00l\00m\00l\00n\00l\00o\00g\00l\00x\00m\00b\00m\00i\00l\00m\00o\00l\00P\00H\00p\00.\00m\00.\00P\00P\00M\00P\00R\00s\00r\00S\00v\00W\00b\00V\00\15\"m\00A\00\15\"m\001\00\e5e2\00\e5e3\00\e5e4\00\e5e5\00\e5e6\00\e5e7\00\e5e8\00\e5e9\00\e5e1\000\00\e5e1\001\00\e5e1\002\00\e5e1\003\00\e5e1\004\00\e5e1\005\00\e5e1\006\00\e5e1\007\00\e5e1\008\00\e5e1\009\00\e5e2\000\00\e5e2\001\00\e5e2\002\00\e5e2\003\00\e5e2\004\00\e5e2\005\00\e5e2\006\00\e5e2\007\00\e5e2\008\00\e5e2\009\00\e5e3\000\00\e5e3\001\00\e5eg\00a\00l\00J\04L\04o\a7C\00F\00Q\00&\01S\01\'\a77\abk\02R\ab\8d\02f\00f\00f\00i\00f\00l\00f\00f\00i\00f\00f\00l\00s\00t\00s\00t\00t\05v\05t\05e\05t\05k\05~\05v\05t\05m\05\e2\05\d0\05\d3\05\d4\05\db\05\dc\05\dd\05\e8\05\ea\05+\00\d0\05\dc\05q\06q\06{\06{\06{\06{\06~\06~\06~\06~\06\80\06\80\06\80\06\80\06z\06z\06z\06z\06\7f\06\7f\06\7f\06\7f\06y\06y\06y\06y\06\a4\06\a4\06\a4\06\a4\06\a6\06\a6\06\a6\06\a6\06\84\06\84\06\84\06\84\06\83\06\83\06\83\06\83\06\86\06\86\06\86\06\86\06\87\06\87\06\87\06\87\06\8d\06\8d\06\8c\06\8c\06\8e\06\8e\06\88\06\88\06\98\06\98\06\91\06\91\06\a9\06\a9\06\a9\06\a9\06\af\06\af\06\af\06\af\06\b3\06\b3\06\b3\06\b3\06\b1\06\b1\06\b1\06\b1\06\ba\06\ba\06\bb\06\bb\06\bb\06\bb\06\d5\06T\06\d5\06T\06\c1\06\c1\06\c1\06\c1\06\be\06\be\06\be\06\be\06\d2\06\d2\06\d2\06T\06\d2\06T\06\ad\06\ad\06\ad\06\ad\06\c7\06\c7\06\c6\06\c6\06\c8\06\c8\06\c7\06t\06\cb\06\cb\06\c5\06\c5\06\c9\06\c9\06\d0\06\d0\06\d0\06\d0\06I\06I\06J\06T\06\'\06J\06T\06\'\06J\06T\06\d5\06J\06T\06\d5\06J\06T\06H\06J\06T\06H\06J\06T\06\c7\06J\06T\06\c7\06J\06T\06\c6\06J\06T\06\c6\06J\06T\06\c8\06J\06T\06\c8\06J\06T\06\d0\06J\06T\06\d0\06J\06T\06\d0\06J\06T\06I\06J\06T\06I\06J\06T\06I\06\cc\06\cc\06\cc\06\cc\06J\06T\06,\06J\06T\06-\06J\06T\06E\06J\06T\06I\06J\06T\06J\06(\06,\06(\06-\06(\06.\06(\06E\06(\06I\06(\06J\06*\06,\06*\06-\06*\06.\06*\06E\06*\06I\06*\06J\06+\06,\06+\06E\06+\06I\06+\06J\06,\06-\06,\06E\06-\06,\06-\06E\06.\06,\06.\06-\06.\06E\063\06,\063\06-\063\06.\063\06E\065\06-\065\06E\066\06,\066\06-\066\06.\066\06E\067\06-\067\06E\068\06E\069\06,\069\06E\06:\06,\06:\06E\06A\06,\06A\06-\06A\06.\06A\06E\06A\06I\06A\06J\06B\06-\06B\06E\06B\06I\06B\06J\06C\06\'\06C\06,\06C\06-\06C\06.\06C\06D\06C\06E\06C\06I\06C\06J\06D\06,\06D\06-\06D\06.\06D\06E\06D\06I\06D\06J\06E\06,\06E\06-\06E\06.\06E\06E\06E\06I\06E\06J\06F\06,\06F\06-\06F\06.\06F\06E\06F\06I\06F\06J\06G\06,\06G\06E\06G\06I\06G\06J\06J\06,\06J\06-\06J\06.\06J\06E\06J\06I\06J\06J\060\06p\061\06p\06I\06p\06 \00L\06Q\06 \00M\06Q\06 \00N\06Q\06 \00O\06Q\06 \00P\06Q\06 \00Q\06p\06J\06T\061\06J\06T\062\06J\06T\06E\06J\06T\06F\06J\06T\06I\06J\06T\06J\06(\061\06(\062\06(\06E\06(\06F\06(\06I\06(\06J\06*\061\06*\062\06*\06E\06*\06F\06*\06I\06*\06J\06+\061\06+\062\06+\06E\06+\06F\06+\06I\06+\06J\06A\06I\06A\06J\06B\06I\06B\06J\06C\06\'\06C\06D\06C\06E\06C\06I\06C\06J\06D\06E\06D\06I\06D\06J\06E\06\'\06E\06E\06F\061\06F\062\06F\06E\06F\06F\06F\06I\06F\06J\06I\06p\06J\061\06J\062\06J\06E\06J\06F\06J\06I\06J\06J\06J\06T\06,\06J\06T\06-\06J\06T\06.\06J\06T\06E\06J\06T\06G\06(\06,\06(\06-\06(\06.\06(\06E\06(\06G\06*\06,\06*\06-\06*\06.\06*\06E\06*\06G\06+\06E\06,\06-\06,\06E\06-\06,\06-\06E\06.\06,\06.\06E\063\06,\063\06-\063\06.\063\06E\065\06-\065\06.\065\06E\066\06,\066\06-\066\06.\066\06E\067\06-\068\06E\069\06,\069\06E\06:\06,\06:\06E\06A\06,\06A\06-\06A\06.\06A\06E\06B\06-\06B\06E\06C\06,\06C\06-\06C\06.\06C\06D\06C\06E\06D\06,\06D\06-\06D\06.\06D\06E\06D\06G\06E\06,\06E\06-\06E\06.\06E\06E\06F\06,\06F\06-\06F\06.\06F\06E\06F\06G\06G\06,\06G\06E\06G\06p\06J\06,\06J\06-\06J\06.\06J\06E\06J\06G\06J\06T\06E\06J\06T\06G\06(\06E\06(\06G\06*\06E\06*\06G\06+\06E\06+\06G\063\06E\063\06G\064\06E\064\06G\06C\06D\06C\06E\06D\06E\06F\06E\06F\06G\06J\06E\06J\06G\06@\06N\06Q\06@\06O\06Q\06@\06P\06Q\067\06I\067\06J\069\06I\069\06J\06:\06I\06:\06J\063\06I\063\06J\064\06I\064\06J\06-\06I\06-\06J\06,\06I\06,\06J\06.\06I\06.\06J\065\06I\065\06J\066\06I\066\06J\064\06,\064\06-\064\06.\064\06E\064\061\063\061\065\061\066\061\067\06I\067\06J\069\06I\069\06J\06:\06I\06:\06J\063\06I\063\06J\064\06I\064\06J\06-\06I\06-\06J\06,\06I\06,\06J\06.\06I\06.\06J\065\06I\065\06J\066\06I\066\06J\064\06,\064\06-\064\06.\064\06E\064\061\063\061\065\061\066\061\064\06,\064\06-\064\06.\064\06E\063\06G\064\06G\067\06E\063\06,\063\06-\063\06.\064\06,\064\06-\064\06.\067\06E\068\06E\06\'\06K\06\'\06K\06*\06,\06E\06*\06-\06,\06*\06-\06,\06*\06-\06E\06*\06.\06E\06*\06E\06,\06*\06E\06-\06*\06E\06.\06,\06E\06-\06,\06E\06-\06-\06E\06J\06-\06E\06I\063\06-\06,\063\06,\06-\063\06,\06I\063\06E\06-\063\06E\06-\063\06E\06,\063\06E\06E\063\06E\06E\065\06-\06-\065\06-\06-\065\06E\06E\064\06-\06E\064\06-\06E\064\06,\06J\064\06E\06.\064\06E\06.\064\06E\06E\064\06E\06E\066\06-\06I\066\06.\06E\066\06.\06E\067\06E\06-\067\06E\06-\067\06E\06E\067\06E\06J\069\06,\06E\069\06E\06E\069\06E\06E\069\06E\06I\06:\06E\06E\06:\06E\06J\06:\06E\06I\06A\06.\06E\06A\06.\06E\06B\06E\06-\06B\06E\06E\06D\06-\06E\06D\06-\06J\06D\06-\06I\06D\06,\06,\06D\06,\06,\06D\06.\06E\06D\06.\06E\06D\06E\06-\06D\06E\06-\06E\06-\06,\06E\06-\06E\06E\06-\06J\06E\06,\06-\06E\06,\06E\06E\06.\06,\06E\06.\06E\06E\06,\06.\06G\06E\06,\06G\06E\06E\06F\06-\06E\06F\06-\06I\06F\06,\06E\06F\06,\06E\06F\06,\06I\06F\06E\06J\06F\06E\06I\06J\06E\06E\06J\06E\06E\06(\06.\06J\06*\06,\06J\06*\06,\06I\06*\06.\06J\06*\06.\06I\06*\06E\06J\06*\06E\06I\06,\06E\06J\06,\06-\06I\06,\06E\06I\063\06.\06I\065\06-\06J\064\06-\06J\066\06-\06J\06D\06,\06J\06D\06E\06J\06J\06-\06J\06J\06,\06J\06J\06E\06J\06E\06E\06J\06B\06E\06J\06F\06-\06J\06B\06E\06-\06D\06-\06E\069\06E\06J\06C\06E\06J\06F\06,\06-\06E\06.\06J\06D\06,\06E\06C\06E\06E\06D\06,\06E\06F\06,\06-\06,\06-\06J\06-\06,\06J\06E\06,\06J\06A\06E\06J\06(\06-\06J\06C\06E\06E\069\06,\06E\065\06E\06E\063\06.\06J\06F\06,\06J\065\06D\06\d2\06B\06D\06\d2\06\'\06D\06D\06G\06\'\06C\06(\061\06E\06-\06E\06/\065\06D\069\06E\061\063\06H\06D\069\06D\06J\06G\06H\063\06D\06E\065\06D\06I\065\06D\06I\06 \00\'\06D\06D\06G\06 \009\06D\06J\06G\06 \00H\063\06D\06E\06,\06D\06 \00,\06D\06\'\06D\06G\061\06\cc\06\'\06D\06,\00\010\020:\00;\00!\00?\00\160\170.\00.\00.\00.\00.\00\14 \13 _\00_\00(\00)\00{\00}\00\140\150\100\110\n0\0b0\080\t0\0c0\0d0\0e0\0f0[\00]\00 \00\05\03 \00\05\03 \00\05\03 \00\05\03_\00_\00_\00,\00\010.\00;\00:\00?\00!\00\14 (\00)\00{\00}\00\140\150#\00&\00*\00+\00-\00<\00>\00=\00\\\00$\00%\00@\00 \00K\06@\06K\06 \00L\06 \00M\06 \00N\06@\06N\06 \00O\06@\06O\06 \00P\06@\06P\06 \00Q\06@\06Q\06 \00R\06@\06R\06!\06\'\06S\06\'\06S\06\'\06T\06\'\06T\06H\06T\06H\06T\06\'\06U\06\'\06U\06J\06T\06J\06T\06J\06T\06J\06T\06\'\06\'\06(\06(\06(\06(\06)\06)\06*\06*\06*\06*\06+\06+\06+\06+\06,\06,\06,\06,\06-\06-\06-\06-\06.\06.\06.\06.\06/\06/\060\060\061\061\062\062\063\063\063\063\064\064\064\064\065\065\065\065\066\066\066\066\067\067\067\067\068\068\068\068\069\069\069\069\06:\06:\06:\06:\06A\06A\06A\06A\06B\06B\06B\06B\06C\06C\06C\06C\06D\06D\06D\06D\06E\06E\06E\06E\06F\06F\06F\06F\06G\06G\06G\06G\06H\06H\06I\06I\06J\06J\06J\06J\06D\06\'\06S\06D\06\'\06S\06D\06\'\06T\06D\06\'\06T\06D\06\'\06U\06D\06\'\06U\06D\06\'\06D\06\'\06!\00\"\00#\00$\00%\00&\00\'\00(\00)\00*\00+\00,\00-\00.\00/\000\001\002\003\004\005\006\007\008\009\00:\00;\00<\00=\00>\00?\00@\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00[\00\\\00]\00^\00_\00`\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00{\00|\00}\00~\00\85)\86)\020\0c0\0d0\010\fb0\f20\a10\a30\a50\a70\a90\e30\e50\e70\c30\fc0\a20\a40\a60\a80\aa0\ab0\ad0\af0\b10\b30\b50\b70\b90\bb0\bd0\bf0\c10\c40\c60\c80\ca0\cb0\cc0\cd0\ce0\cf0\d20\d50\d80\db0\de0\df0\e00\e10\e20\e40\e60\e80\e90\ea0\eb0\ec0\ed0\ef0\f30\990\9a0`\11\00\11\01\11\aa\11\02\11\ac\11\ad\11\03\11\04\11\05\11\b0\11\b1\11\b2\11\b3\11\b4\11\b5\11\1a\11\06\11\07\11\08\11!\11\t\11\n\11\0b\11\0c\11\0d\11\0e\11\0f\11\10\11\11\11\12\11a\11b\11c\11d\11e\11f\11g\11h\11i\11j\11k\11l\11m\11n\11o\11p\11q\11r\11s\11t\11u\11\a2\00\a3\00\ac\00 \00\04\03\a6\00\a5\00\a9 \02%\90!\91!\92!\93!\a0%\cb%\d0\02\d1\02\e6\00\99\02S\02\a3\02f\ab\a5\02\a4\02V\02W\02\91\1dX\02^\02\a9\02d\02b\02`\02\9b\02\'\01\9c\02g\02\84\02\aa\02\ab\02l\027\d8\04\df\8e\a7n\027\d8\05\df\8e\027\d8\06\df\f8\00v\02w\02q\00z\027\d8\08\df}\02~\02\80\02\a8\02\a6\02g\ab\a7\02\88\02q,\8f\02\a1\02\a2\02\98\02\c0\01\c1\01\c2\017\d8\n\df7\d8\1e\dfA\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\000\001\002\003\004\005\006\007\008\009\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00C\00D\00G\00J\00K\00N\00O\00P\00Q\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00f\00h\00i\00j\00k\00l\00m\00n\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00D\00E\00F\00G\00J\00K\00L\00M\00N\00O\00P\00Q\00S\00T\00U\00V\00W\00X\00Y\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00D\00E\00F\00G\00I\00J\00K\00L\00M\00O\00S\00T\00U\00V\00W\00X\00Y\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00a\00b\00c\00d\00e\00f\00g\00h\00i\00j\00k\00l\00m\00n\00o\00p\00q\00r\00s\00t\00u\00v\00w\00x\00y\00z\001\017\02\91\03\92\03\93\03\94\03\95\03\96\03\97\03\98\03\99\03\9a\03\9b\03\9c\03\9d\03\9e\03\9f\03\a0\03\a1\03\98\03\a3\03\a4\03\a5\03\a6\03\a7\03\a8\03\a9\03\07\"\b1\03\b2\03\b3\03\b4\03\b5\03\b6\03\b7\03\b8\03\b9\03\ba\03\bb\03\bc\03\bd\03\be\03\bf\03\c0\03\c1\03\c2\03\c3\03\c4\03\c5\03\c6\03\c7\03\c8\03\c9\03\02\"\b5\03\b8\03\ba\03\c6\03\c1\03\c0\03\91\03\92\03\93\03\94\03\95\03\96\03\97\03\98\03\99\03\9a\03\9b\03\9c\03\9d\03\9e\03\9f\03\a0\03\a1\03\98\03\a3\03\a4\03\a5\03\a6\03\a7\03\a8\03\a9\03\07\"\b1\03\b2\03\b3\03\b4\03\b5\03\b6\03\b7\03\b8\03\b9\03\ba\03\bb\03\bc\03\bd\03\be\03\bf\03\c0\03\c1\03\c2\03\c3\03\c4\03\c5\03\c6\03\c7\03\c8\03\c9\03\02\"\b5\03\b8\03\ba\03\c6\03\c1\03\c0\03\91\03\92\03\93\03\94\03\95\03\96\03\97\03\98\03\99\03\9a\03\9b\03\9c\03\9d\03\9e\03\9f\03\a0\03\a1\03\98\03\a3\03\a4\03\a5\03\a6\03\a7\03\a8\03\a9\03\07\"\b1\03\b2\03\b3\03\b4\03\b5\03\b6\03\b7\03\b8\03\b9\03\ba\03\bb\03\bc\03\bd\03\be\03\bf\03\c0\03\c1\03\c2\03\c3\03\c4\03\c5\03\c6\03\c7\03\c8\03\c9\03\02\"\b5\03\b8\03\ba\03\c6\03\c1\03\c0\03\91\03\92\03\93\03\94\03\95\03\96\03\97\03\98\03\99\03\9a\03\9b\03\9c\03\9d\03\9e\03\9f\03\a0\03\a1\03\98\03\a3\03\a4\03\a5\03\a6\03\a7\03\a8\03\a9\03\07\"\b1\03\b2\03\b3\03\b4\03\b5\03\b6\03\b7\03\b8\03\b9\03\ba\03\bb\03\bc\03\bd\03\be\03\bf\03\c0\03\c1\03\c2\03\c3\03\c4\03\c5\03\c6\03\c7\03\c8\03\c9\03\02\"\b5\03\b8\03\ba\03\c6\03\c1\03\c0\03\91\03\92\03\93\03\94\03\95\03\96\03\97\03\98\03\99\03\9a\03\9b\03\9c\03\9d\03\9e\03\9f\03\a0\03\a1\03\98\03\a3\03\a4\03\a5\03\a6\03\a7\03\a8\03\a9\03\07\"\b1\03\b2\03\b3\03\b4\03\b5\03\b6\03\b7\03\b8\03\b9\03\ba\03\bb\03\bc\03\bd\03\be\03\bf\03\c0\03\c1\03\c2\03\c3\03\c4\03\c5\03\c6\03\c7\03\c8\03\c9\03\02\"\b5\03\b8\03\ba\03\c6\03\c1\03\c0\03\dc\03\dd\030\001\002\003\004\005\006\007\008\009\000\001\002\003\004\005\006\007\008\009\000\001\002\003\004\005\006\007\008\009\000\001\002\003\004\005\006\007\008\009\000\001\002\003\004\005\006\007\008\009\000\041\042\043\044\045\046\047\048\04:\04;\04<\04>\04?\04@\04A\04B\04C\04D\04E\04F\04G\04H\04K\04M\04N\04\89\a6\d9\04V\04X\04\e9\04\af\04\cf\040\041\042\043\044\045\046\047\048\04:\04;\04>\04?\04A\04C\04D\04E\04F\04G\04H\04J\04K\04\91\04V\04U\04_\04\ab\04Q\a6\b1\04\'\06(\06,\06/\06H\062\06-\067\06J\06C\06D\06E\06F\063\069\06A\065\06B\061\064\06*\06+\06.\060\066\068\06:\06n\06\ba\06\a1\06o\06(\06,\06G\06-\06J\06C\06D\06E\06F\063\069\06A\065\06B\064\06*\06+\06.\066\06:\06,\06-\06J\06D\06F\063\069\065\06B\064\06.\066\06:\06\ba\06o\06(\06,\06G\06-\067\06J\06C\06E\06F\063\069\06A\065\06B\064\06*\06+\06.\066\068\06:\06n\06\a1\06\'\06(\06,\06/\06G\06H\062\06-\067\06J\06D\06E\06F\063\069\06A\065\06B\061\064\06*\06+\06.\060\066\068\06:\06(\06,\06/\06H\062\06-\067\06J\06D\06E\06F\063\069\06A\065\06B\061\064\06*\06+\06.\060\066\068\06:\060\00.\000\00,\001\00,\002\00,\003\00,\004\00,\005\00,\006\00,\007\00,\008\00,\009\00,\00(\00A\00)\00(\00B\00)\00(\00C\00)\00(\00D\00)\00(\00E\00)\00(\00F\00)\00(\00G\00)\00(\00H\00)\00(\00I\00)\00(\00J\00)\00(\00K\00)\00(\00L\00)\00(\00M\00)\00(\00N\00)\00(\00O\00)\00(\00P\00)\00(\00Q\00)\00(\00R\00)\00(\00S\00)\00(\00T\00)\00(\00U\00)\00(\00V\00)\00(\00W\00)\00(\00X\00)\00(\00Y\00)\00(\00Z\00)\00\140S\00\150C\00R\00C\00D\00W\00Z\00A\00B\00C\00D\00E\00F\00G\00H\00I\00J\00K\00L\00M\00N\00O\00P\00Q\00R\00S\00T\00U\00V\00W\00X\00Y\00Z\00H\00V\00M\00V\00S\00D\00S\00S\00P\00P\00V\00W\00C\00M\00C\00M\00D\00M\00R\00D\00J\00{0K0\b30\b30\b50KbW[\ccS\c60\990\8cN\1aY\e3\89)Y\a4N f!q\99eMR\8c_\8dQ\b0e\1dRB}\1fu\a9\8c\f0X9T\14o\95bUc\00N\tNJ\90\e6]-N\f3S\07cp\8dSb\81yzz\08T\80n\tg\08g3urR\b6UM\91\140,g\150\140\tN\150\140\8cN\150\140\89[\150\140\b9p\150\140Sb\150\140\d7v\150\140\ddR\150\140We\150\97_\efS0\001\002\003\004\005\006\007\008\009\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 158080) "\80)\02\00\91\16\00\00")
+ (data (i32.const 158088) "l\12\00\00\00\00\00\00\00\03\00\00\14\03\00\003\00\00\00\15\03\00\00\15\03\00\004\00\00\00\16\03\00\00\19\03\00\00.\00\00\00\1a\03\00\00\1a\03\00\004\00\00\00\1b\03\00\00\1b\03\00\00,\00\00\00\1c\03\00\00 \03\00\00.\00\00\00!\03\00\00\"\03\00\00*\00\00\00#\03\00\00&\03\00\00.\00\00\00\'\03\00\00(\03\00\00*\00\00\00)\03\00\003\03\00\00.\00\00\004\03\00\008\03\00\00\01\00\00\009\03\00\00<\03\00\00.\00\00\00=\03\00\00D\03\00\003\00\00\00E\03\00\00E\03\00\007\00\00\00F\03\00\00F\03\00\003\00\00\00G\03\00\00I\03\00\00.\00\00\00J\03\00\00L\03\00\003\00\00\00M\03\00\00N\03\00\00.\00\00\00P\03\00\00R\03\00\003\00\00\00S\03\00\00V\03\00\00.\00\00\00W\03\00\00W\03\00\003\00\00\00X\03\00\00X\03\00\004\00\00\00Y\03\00\00Z\03\00\00.\00\00\00[\03\00\00[\03\00\003\00\00\00\\\03\00\00\\\03\00\005\00\00\00]\03\00\00^\03\00\006\00\00\00_\03\00\00_\03\00\005\00\00\00`\03\00\00a\03\00\006\00\00\00b\03\00\00b\03\00\005\00\00\00c\03\00\00o\03\00\003\00\00\00\83\04\00\00\87\04\00\003\00\00\00\91\05\00\00\91\05\00\00.\00\00\00\92\05\00\00\95\05\00\003\00\00\00\96\05\00\00\96\05\00\00.\00\00\00\97\05\00\00\99\05\00\003\00\00\00\9a\05\00\00\9a\05\00\00/\00\00\00\9b\05\00\00\9b\05\00\00.\00\00\00\9c\05\00\00\a1\05\00\003\00\00\00\a2\05\00\00\a7\05\00\00.\00\00\00\a8\05\00\00\a9\05\00\003\00\00\00\aa\05\00\00\aa\05\00\00.\00\00\00\ab\05\00\00\ac\05\00\003\00\00\00\ad\05\00\00\ad\05\00\00/\00\00\00\ae\05\00\00\ae\05\00\002\00\00\00\af\05\00\00\af\05\00\003\00\00\00\b0\05\00\00\b0\05\00\00\06\00\00\00\b1\05\00\00\b1\05\00\00\07\00\00\00\b2\05\00\00\b2\05\00\00\08\00\00\00\b3\05\00\00\b3\05\00\00\t\00\00\00\b4\05\00\00\b4\05\00\00\n\00\00\00\b5\05\00\00\b5\05\00\00\0b\00\00\00\b6\05\00\00\b6\05\00\00\0c\00\00\00\b7\05\00\00\b7\05\00\00\0d\00\00\00\b8\05\00\00\b8\05\00\00\0e\00\00\00\b9\05\00\00\ba\05\00\00\0f\00\00\00\bb\05\00\00\bb\05\00\00\10\00\00\00\bc\05\00\00\bc\05\00\00\11\00\00\00\bd\05\00\00\bd\05\00\00\12\00\00\00\bf\05\00\00\bf\05\00\00\13\00\00\00\c1\05\00\00\c1\05\00\00\14\00\00\00\c2\05\00\00\c2\05\00\00\15\00\00\00\c4\05\00\00\c4\05\00\003\00\00\00\c5\05\00\00\c5\05\00\00.\00\00\00\c7\05\00\00\c7\05\00\00\0e\00\00\00\10\06\00\00\17\06\00\003\00\00\00\18\06\00\00\18\06\00\00\1a\00\00\00\19\06\00\00\19\06\00\00\1b\00\00\00\1a\06\00\00\1a\06\00\00\1c\00\00\00K\06\00\00K\06\00\00\17\00\00\00L\06\00\00L\06\00\00\18\00\00\00M\06\00\00M\06\00\00\19\00\00\00N\06\00\00N\06\00\00\1a\00\00\00O\06\00\00O\06\00\00\1b\00\00\00P\06\00\00P\06\00\00\1c\00\00\00Q\06\00\00Q\06\00\00\1d\00\00\00R\06\00\00R\06\00\00\1e\00\00\00S\06\00\00T\06\00\003\00\00\00U\06\00\00V\06\00\00.\00\00\00W\06\00\00[\06\00\003\00\00\00\\\06\00\00\\\06\00\00.\00\00\00]\06\00\00^\06\00\003\00\00\00_\06\00\00_\06\00\00.\00\00\00p\06\00\00p\06\00\00\1f\00\00\00\d6\06\00\00\dc\06\00\003\00\00\00\df\06\00\00\e2\06\00\003\00\00\00\e3\06\00\00\e3\06\00\00.\00\00\00\e4\06\00\00\e4\06\00\003\00\00\00\e7\06\00\00\e8\06\00\003\00\00\00\ea\06\00\00\ea\06\00\00.\00\00\00\eb\06\00\00\ec\06\00\003\00\00\00\ed\06\00\00\ed\06\00\00.\00\00\00\11\07\00\00\11\07\00\00 \00\00\000\07\00\000\07\00\003\00\00\001\07\00\001\07\00\00.\00\00\002\07\00\003\07\00\003\00\00\004\07\00\004\07\00\00.\00\00\005\07\00\006\07\00\003\00\00\007\07\00\009\07\00\00.\00\00\00:\07\00\00:\07\00\003\00\00\00;\07\00\00<\07\00\00.\00\00\00=\07\00\00=\07\00\003\00\00\00>\07\00\00>\07\00\00.\00\00\00?\07\00\00A\07\00\003\00\00\00B\07\00\00B\07\00\00.\00\00\00C\07\00\00C\07\00\003\00\00\00D\07\00\00D\07\00\00.\00\00\00E\07\00\00E\07\00\003\00\00\00F\07\00\00F\07\00\00.\00\00\00G\07\00\00G\07\00\003\00\00\00H\07\00\00H\07\00\00.\00\00\00I\07\00\00J\07\00\003\00\00\00\eb\07\00\00\f1\07\00\003\00\00\00\f2\07\00\00\f2\07\00\00.\00\00\00\f3\07\00\00\f3\07\00\003\00\00\00\fd\07\00\00\fd\07\00\00.\00\00\00\16\08\00\00\19\08\00\003\00\00\00\1b\08\00\00#\08\00\003\00\00\00%\08\00\00\'\08\00\003\00\00\00)\08\00\00-\08\00\003\00\00\00Y\08\00\00[\08\00\00.\00\00\00\97\08\00\00\98\08\00\003\00\00\00\99\08\00\00\9b\08\00\00.\00\00\00\9c\08\00\00\9f\08\00\003\00\00\00\ca\08\00\00\ce\08\00\003\00\00\00\cf\08\00\00\d3\08\00\00.\00\00\00\d4\08\00\00\e1\08\00\003\00\00\00\e3\08\00\00\e3\08\00\00.\00\00\00\e4\08\00\00\e5\08\00\003\00\00\00\e6\08\00\00\e6\08\00\00.\00\00\00\e7\08\00\00\e8\08\00\003\00\00\00\e9\08\00\00\e9\08\00\00.\00\00\00\ea\08\00\00\ec\08\00\003\00\00\00\ed\08\00\00\ef\08\00\00.\00\00\00\f0\08\00\00\f0\08\00\00\17\00\00\00\f1\08\00\00\f1\08\00\00\18\00\00\00\f2\08\00\00\f2\08\00\00\19\00\00\00\f3\08\00\00\f5\08\00\003\00\00\00\f6\08\00\00\f6\08\00\00.\00\00\00\f7\08\00\00\f8\08\00\003\00\00\00\f9\08\00\00\fa\08\00\00.\00\00\00\fb\08\00\00\ff\08\00\003\00\00\00<\t\00\00<\t\00\00\03\00\00\00M\t\00\00M\t\00\00\05\00\00\00Q\t\00\00Q\t\00\003\00\00\00R\t\00\00R\t\00\00.\00\00\00S\t\00\00T\t\00\003\00\00\00\bc\t\00\00\bc\t\00\00\03\00\00\00\cd\t\00\00\cd\t\00\00\05\00\00\00\fe\t\00\00\fe\t\00\003\00\00\00<\n\00\00<\n\00\00\03\00\00\00M\n\00\00M\n\00\00\05\00\00\00\bc\n\00\00\bc\n\00\00\03\00\00\00\cd\n\00\00\cd\n\00\00\05\00\00\00<\0b\00\00<\0b\00\00\03\00\00\00M\0b\00\00M\0b\00\00\05\00\00\00\cd\0b\00\00\cd\0b\00\00\05\00\00\00<\0c\00\00<\0c\00\00\03\00\00\00M\0c\00\00M\0c\00\00\05\00\00\00U\0c\00\00U\0c\00\00!\00\00\00V\0c\00\00V\0c\00\00\"\00\00\00\bc\0c\00\00\bc\0c\00\00\03\00\00\00\cd\0c\00\00\cd\0c\00\00\05\00\00\00;\0d\00\00<\0d\00\00\05\00\00\00M\0d\00\00M\0d\00\00\05\00\00\00\ca\0d\00\00\ca\0d\00\00\05\00\00\008\0e\00\009\0e\00\00#\00\00\00:\0e\00\00:\0e\00\00\05\00\00\00H\0e\00\00K\0e\00\00$\00\00\00\b8\0e\00\00\b9\0e\00\00%\00\00\00\ba\0e\00\00\ba\0e\00\00\05\00\00\00\c8\0e\00\00\cb\0e\00\00&\00\00\00\18\0f\00\00\19\0f\00\00.\00\00\005\0f\00\005\0f\00\00.\00\00\007\0f\00\007\0f\00\00.\00\00\009\0f\00\009\0f\00\00,\00\00\00q\0f\00\00q\0f\00\00\'\00\00\00r\0f\00\00r\0f\00\00(\00\00\00t\0f\00\00t\0f\00\00)\00\00\00z\0f\00\00}\0f\00\00(\00\00\00\80\0f\00\00\80\0f\00\00(\00\00\00\82\0f\00\00\83\0f\00\003\00\00\00\84\0f\00\00\84\0f\00\00\05\00\00\00\86\0f\00\00\87\0f\00\003\00\00\00\c6\0f\00\00\c6\0f\00\00.\00\00\007\10\00\007\10\00\00\03\00\00\009\10\00\00:\10\00\00\05\00\00\00\8d\10\00\00\8d\10\00\00.\00\00\00]\13\00\00_\13\00\003\00\00\00\14\17\00\00\15\17\00\00\05\00\00\004\17\00\004\17\00\00\05\00\00\00\d2\17\00\00\d2\17\00\00\05\00\00\00\dd\17\00\00\dd\17\00\003\00\00\00\a9\18\00\00\a9\18\00\002\00\00\009\19\00\009\19\00\00/\00\00\00:\19\00\00:\19\00\003\00\00\00;\19\00\00;\19\00\00.\00\00\00\17\1a\00\00\17\1a\00\003\00\00\00\18\1a\00\00\18\1a\00\00.\00\00\00`\1a\00\00`\1a\00\00\05\00\00\00u\1a\00\00|\1a\00\003\00\00\00\7f\1a\00\00\7f\1a\00\00.\00\00\00\b0\1a\00\00\b4\1a\00\003\00\00\00\b5\1a\00\00\ba\1a\00\00.\00\00\00\bb\1a\00\00\bc\1a\00\003\00\00\00\bd\1a\00\00\bd\1a\00\00.\00\00\00\bf\1a\00\00\c0\1a\00\00.\00\00\00\c1\1a\00\00\c2\1a\00\003\00\00\00\c3\1a\00\00\c4\1a\00\00.\00\00\00\c5\1a\00\00\c9\1a\00\003\00\00\00\ca\1a\00\00\ca\1a\00\00.\00\00\00\cb\1a\00\00\ce\1a\00\003\00\00\004\1b\00\004\1b\00\00\03\00\00\00D\1b\00\00D\1b\00\00\05\00\00\00k\1b\00\00k\1b\00\003\00\00\00l\1b\00\00l\1b\00\00.\00\00\00m\1b\00\00s\1b\00\003\00\00\00\aa\1b\00\00\ab\1b\00\00\05\00\00\00\e6\1b\00\00\e6\1b\00\00\03\00\00\00\f2\1b\00\00\f3\1b\00\00\05\00\00\007\1c\00\007\1c\00\00\03\00\00\00\d0\1c\00\00\d2\1c\00\003\00\00\00\d4\1c\00\00\d4\1c\00\00\01\00\00\00\d5\1c\00\00\d9\1c\00\00.\00\00\00\da\1c\00\00\db\1c\00\003\00\00\00\dc\1c\00\00\df\1c\00\00.\00\00\00\e0\1c\00\00\e0\1c\00\003\00\00\00\e2\1c\00\00\e8\1c\00\00\01\00\00\00\ed\1c\00\00\ed\1c\00\00.\00\00\00\f4\1c\00\00\f4\1c\00\003\00\00\00\f8\1c\00\00\f9\1c\00\003\00\00\00\c0\1d\00\00\c1\1d\00\003\00\00\00\c2\1d\00\00\c2\1d\00\00.\00\00\00\c3\1d\00\00\c9\1d\00\003\00\00\00\ca\1d\00\00\ca\1d\00\00.\00\00\00\cb\1d\00\00\cc\1d\00\003\00\00\00\cd\1d\00\00\cd\1d\00\006\00\00\00\ce\1d\00\00\ce\1d\00\00+\00\00\00\cf\1d\00\00\cf\1d\00\00.\00\00\00\d0\1d\00\00\d0\1d\00\00*\00\00\00\d1\1d\00\00\f5\1d\00\003\00\00\00\f6\1d\00\00\f6\1d\00\004\00\00\00\f7\1d\00\00\f8\1d\00\002\00\00\00\f9\1d\00\00\f9\1d\00\00.\00\00\00\fa\1d\00\00\fa\1d\00\00-\00\00\00\fb\1d\00\00\fb\1d\00\003\00\00\00\fc\1d\00\00\fc\1d\00\005\00\00\00\fd\1d\00\00\fd\1d\00\00.\00\00\00\fe\1d\00\00\fe\1d\00\003\00\00\00\ff\1d\00\00\ff\1d\00\00.\00\00\00\d0 \00\00\d1 \00\003\00\00\00\d2 \00\00\d3 \00\00\01\00\00\00\d4 \00\00\d7 \00\003\00\00\00\d8 \00\00\da \00\00\01\00\00\00\db \00\00\dc \00\003\00\00\00\e1 \00\00\e1 \00\003\00\00\00\e5 \00\00\e6 \00\00\01\00\00\00\e7 \00\00\e7 \00\003\00\00\00\e8 \00\00\e8 \00\00.\00\00\00\e9 \00\00\e9 \00\003\00\00\00\ea \00\00\eb \00\00\01\00\00\00\ec \00\00\ef \00\00.\00\00\00\f0 \00\00\f0 \00\003\00\00\00\ef,\00\00\f1,\00\003\00\00\00\7f-\00\00\7f-\00\00\05\00\00\00\e0-\00\00\ff-\00\003\00\00\00*0\00\00*0\00\00-\00\00\00+0\00\00+0\00\002\00\00\00,0\00\00,0\00\004\00\00\00-0\00\00-0\00\00/\00\00\00.0\00\00/0\00\000\00\00\00\990\00\00\9a0\00\00\04\00\00\00o\a6\00\00o\a6\00\003\00\00\00t\a6\00\00}\a6\00\003\00\00\00\9e\a6\00\00\9f\a6\00\003\00\00\00\f0\a6\00\00\f1\a6\00\003\00\00\00\06\a8\00\00\06\a8\00\00\05\00\00\00,\a8\00\00,\a8\00\00\05\00\00\00\c4\a8\00\00\c4\a8\00\00\05\00\00\00\e0\a8\00\00\f1\a8\00\003\00\00\00+\a9\00\00-\a9\00\00.\00\00\00S\a9\00\00S\a9\00\00\05\00\00\00\b3\a9\00\00\b3\a9\00\00\03\00\00\00\c0\a9\00\00\c0\a9\00\00\05\00\00\00\b0\aa\00\00\b0\aa\00\003\00\00\00\b2\aa\00\00\b3\aa\00\003\00\00\00\b4\aa\00\00\b4\aa\00\00.\00\00\00\b7\aa\00\00\b8\aa\00\003\00\00\00\be\aa\00\00\bf\aa\00\003\00\00\00\c1\aa\00\00\c1\aa\00\003\00\00\00\f6\aa\00\00\f6\aa\00\00\05\00\00\00\ed\ab\00\00\ed\ab\00\00\05\00\00\00\1e\fb\00\00\1e\fb\00\00\16\00\00\00 \fe\00\00&\fe\00\003\00\00\00\'\fe\00\00-\fe\00\00.\00\00\00.\fe\00\00/\fe\00\003\00\00\00\fd\01\01\00\fd\01\01\00.\00\00\00\e0\02\01\00\e0\02\01\00.\00\00\00v\03\01\00z\03\01\003\00\00\00\0d\n\01\00\0d\n\01\00.\00\00\00\0f\n\01\00\0f\n\01\003\00\00\008\n\01\008\n\01\003\00\00\009\n\01\009\n\01\00\01\00\00\00:\n\01\00:\n\01\00.\00\00\00?\n\01\00?\n\01\00\05\00\00\00\e5\n\01\00\e5\n\01\003\00\00\00\e6\n\01\00\e6\n\01\00.\00\00\00$\0d\01\00\'\0d\01\003\00\00\00i\0d\01\00m\0d\01\003\00\00\00\ab\0e\01\00\ac\0e\01\003\00\00\00\fd\0e\01\00\ff\0e\01\00.\00\00\00F\0f\01\00G\0f\01\00.\00\00\00H\0f\01\00J\0f\01\003\00\00\00K\0f\01\00K\0f\01\00.\00\00\00L\0f\01\00L\0f\01\003\00\00\00M\0f\01\00P\0f\01\00.\00\00\00\82\0f\01\00\82\0f\01\003\00\00\00\83\0f\01\00\83\0f\01\00.\00\00\00\84\0f\01\00\84\0f\01\003\00\00\00\85\0f\01\00\85\0f\01\00.\00\00\00F\10\01\00F\10\01\00\05\00\00\00p\10\01\00p\10\01\00\05\00\00\00\7f\10\01\00\7f\10\01\00\05\00\00\00\b9\10\01\00\b9\10\01\00\05\00\00\00\ba\10\01\00\ba\10\01\00\03\00\00\00\00\11\01\00\02\11\01\003\00\00\003\11\01\004\11\01\00\05\00\00\00s\11\01\00s\11\01\00\03\00\00\00\c0\11\01\00\c0\11\01\00\05\00\00\00\ca\11\01\00\ca\11\01\00\03\00\00\005\12\01\005\12\01\00\05\00\00\006\12\01\006\12\01\00\03\00\00\00\e9\12\01\00\e9\12\01\00\03\00\00\00\ea\12\01\00\ea\12\01\00\05\00\00\00;\13\01\00<\13\01\00\03\00\00\00M\13\01\00M\13\01\00\05\00\00\00f\13\01\00l\13\01\003\00\00\00p\13\01\00t\13\01\003\00\00\00\ce\13\01\00\d0\13\01\00\05\00\00\00B\14\01\00B\14\01\00\05\00\00\00F\14\01\00F\14\01\00\03\00\00\00^\14\01\00^\14\01\003\00\00\00\c2\14\01\00\c2\14\01\00\05\00\00\00\c3\14\01\00\c3\14\01\00\03\00\00\00\bf\15\01\00\bf\15\01\00\05\00\00\00\c0\15\01\00\c0\15\01\00\03\00\00\00?\16\01\00?\16\01\00\05\00\00\00\b6\16\01\00\b6\16\01\00\05\00\00\00\b7\16\01\00\b7\16\01\00\03\00\00\00+\17\01\00+\17\01\00\05\00\00\009\18\01\009\18\01\00\05\00\00\00:\18\01\00:\18\01\00\03\00\00\00=\19\01\00>\19\01\00\05\00\00\00C\19\01\00C\19\01\00\03\00\00\00\e0\19\01\00\e0\19\01\00\05\00\00\004\1a\01\004\1a\01\00\05\00\00\00G\1a\01\00G\1a\01\00\05\00\00\00\99\1a\01\00\99\1a\01\00\05\00\00\00?\1c\01\00?\1c\01\00\05\00\00\00B\1d\01\00B\1d\01\00\03\00\00\00D\1d\01\00E\1d\01\00\05\00\00\00\97\1d\01\00\97\1d\01\00\05\00\00\00A\1f\01\00B\1f\01\00\05\00\00\00/a\01\00/a\01\00\05\00\00\00\f0j\01\00\f4j\01\00\01\00\00\000k\01\006k\01\003\00\00\00\f0o\01\00\f1o\01\00\02\00\00\00\9e\bc\01\00\9e\bc\01\00\01\00\00\00e\d1\01\00f\d1\01\00,\00\00\00g\d1\01\00i\d1\01\00\01\00\00\00m\d1\01\00m\d1\01\001\00\00\00n\d1\01\00r\d1\01\00,\00\00\00{\d1\01\00\82\d1\01\00.\00\00\00\85\d1\01\00\89\d1\01\003\00\00\00\8a\d1\01\00\8b\d1\01\00.\00\00\00\aa\d1\01\00\ad\d1\01\003\00\00\00B\d2\01\00D\d2\01\003\00\00\00\00\e0\01\00\06\e0\01\003\00\00\00\08\e0\01\00\18\e0\01\003\00\00\00\1b\e0\01\00!\e0\01\003\00\00\00#\e0\01\00$\e0\01\003\00\00\00&\e0\01\00*\e0\01\003\00\00\00\8f\e0\01\00\8f\e0\01\003\00\00\000\e1\01\006\e1\01\003\00\00\00\ae\e2\01\00\ae\e2\01\003\00\00\00\ec\e2\01\00\ef\e2\01\003\00\00\00\ec\e4\01\00\ed\e4\01\004\00\00\00\ee\e4\01\00\ee\e4\01\00.\00\00\00\ef\e4\01\00\ef\e4\01\003\00\00\00\ee\e5\01\00\ee\e5\01\003\00\00\00\ef\e5\01\00\ef\e5\01\00.\00\00\00\d0\e8\01\00\d6\e8\01\00.\00\00\00D\e9\01\00I\e9\01\003\00\00\00J\e9\01\00J\e9\01\00\03\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 166280) "\88i\02\00\9b\04\00\00")
+ (data (i32.const 166288) "\0c-\00\00\00\00\00\00<\00\00\008\03\00\00n\"\00\00=\00\00\008\03\00\00`\"\00\00>\00\00\008\03\00\00o\"\00\00A\00\00\00\00\03\00\00\c0\00\00\00A\00\00\00\01\03\00\00\c1\00\00\00A\00\00\00\02\03\00\00\c2\00\00\00A\00\00\00\03\03\00\00\c3\00\00\00A\00\00\00\04\03\00\00\00\01\00\00A\00\00\00\06\03\00\00\02\01\00\00A\00\00\00\07\03\00\00&\02\00\00A\00\00\00\08\03\00\00\c4\00\00\00A\00\00\00\t\03\00\00\a2\1e\00\00A\00\00\00\n\03\00\00\c5\00\00\00A\00\00\00\0c\03\00\00\cd\01\00\00A\00\00\00\0f\03\00\00\00\02\00\00A\00\00\00\11\03\00\00\02\02\00\00A\00\00\00#\03\00\00\a0\1e\00\00A\00\00\00%\03\00\00\00\1e\00\00A\00\00\00(\03\00\00\04\01\00\00B\00\00\00\07\03\00\00\02\1e\00\00B\00\00\00#\03\00\00\04\1e\00\00B\00\00\001\03\00\00\06\1e\00\00C\00\00\00\01\03\00\00\06\01\00\00C\00\00\00\02\03\00\00\08\01\00\00C\00\00\00\07\03\00\00\n\01\00\00C\00\00\00\0c\03\00\00\0c\01\00\00C\00\00\00\'\03\00\00\c7\00\00\00D\00\00\00\07\03\00\00\n\1e\00\00D\00\00\00\0c\03\00\00\0e\01\00\00D\00\00\00#\03\00\00\0c\1e\00\00D\00\00\00\'\03\00\00\10\1e\00\00D\00\00\00-\03\00\00\12\1e\00\00D\00\00\001\03\00\00\0e\1e\00\00E\00\00\00\00\03\00\00\c8\00\00\00E\00\00\00\01\03\00\00\c9\00\00\00E\00\00\00\02\03\00\00\ca\00\00\00E\00\00\00\03\03\00\00\bc\1e\00\00E\00\00\00\04\03\00\00\12\01\00\00E\00\00\00\06\03\00\00\14\01\00\00E\00\00\00\07\03\00\00\16\01\00\00E\00\00\00\08\03\00\00\cb\00\00\00E\00\00\00\t\03\00\00\ba\1e\00\00E\00\00\00\0c\03\00\00\1a\01\00\00E\00\00\00\0f\03\00\00\04\02\00\00E\00\00\00\11\03\00\00\06\02\00\00E\00\00\00#\03\00\00\b8\1e\00\00E\00\00\00\'\03\00\00(\02\00\00E\00\00\00(\03\00\00\18\01\00\00E\00\00\00-\03\00\00\18\1e\00\00E\00\00\000\03\00\00\1a\1e\00\00F\00\00\00\07\03\00\00\1e\1e\00\00G\00\00\00\01\03\00\00\f4\01\00\00G\00\00\00\02\03\00\00\1c\01\00\00G\00\00\00\04\03\00\00 \1e\00\00G\00\00\00\06\03\00\00\1e\01\00\00G\00\00\00\07\03\00\00 \01\00\00G\00\00\00\0c\03\00\00\e6\01\00\00G\00\00\00\'\03\00\00\"\01\00\00H\00\00\00\02\03\00\00$\01\00\00H\00\00\00\07\03\00\00\"\1e\00\00H\00\00\00\08\03\00\00&\1e\00\00H\00\00\00\0c\03\00\00\1e\02\00\00H\00\00\00#\03\00\00$\1e\00\00H\00\00\00\'\03\00\00(\1e\00\00H\00\00\00.\03\00\00*\1e\00\00I\00\00\00\00\03\00\00\cc\00\00\00I\00\00\00\01\03\00\00\cd\00\00\00I\00\00\00\02\03\00\00\ce\00\00\00I\00\00\00\03\03\00\00(\01\00\00I\00\00\00\04\03\00\00*\01\00\00I\00\00\00\06\03\00\00,\01\00\00I\00\00\00\07\03\00\000\01\00\00I\00\00\00\08\03\00\00\cf\00\00\00I\00\00\00\t\03\00\00\c8\1e\00\00I\00\00\00\0c\03\00\00\cf\01\00\00I\00\00\00\0f\03\00\00\08\02\00\00I\00\00\00\11\03\00\00\n\02\00\00I\00\00\00#\03\00\00\ca\1e\00\00I\00\00\00(\03\00\00.\01\00\00I\00\00\000\03\00\00,\1e\00\00J\00\00\00\02\03\00\004\01\00\00K\00\00\00\01\03\00\000\1e\00\00K\00\00\00\0c\03\00\00\e8\01\00\00K\00\00\00#\03\00\002\1e\00\00K\00\00\00\'\03\00\006\01\00\00K\00\00\001\03\00\004\1e\00\00L\00\00\00\01\03\00\009\01\00\00L\00\00\00\0c\03\00\00=\01\00\00L\00\00\00#\03\00\006\1e\00\00L\00\00\00\'\03\00\00;\01\00\00L\00\00\00-\03\00\00<\1e\00\00L\00\00\001\03\00\00:\1e\00\00M\00\00\00\01\03\00\00>\1e\00\00M\00\00\00\07\03\00\00@\1e\00\00M\00\00\00#\03\00\00B\1e\00\00N\00\00\00\00\03\00\00\f8\01\00\00N\00\00\00\01\03\00\00C\01\00\00N\00\00\00\03\03\00\00\d1\00\00\00N\00\00\00\07\03\00\00D\1e\00\00N\00\00\00\0c\03\00\00G\01\00\00N\00\00\00#\03\00\00F\1e\00\00N\00\00\00\'\03\00\00E\01\00\00N\00\00\00-\03\00\00J\1e\00\00N\00\00\001\03\00\00H\1e\00\00O\00\00\00\00\03\00\00\d2\00\00\00O\00\00\00\01\03\00\00\d3\00\00\00O\00\00\00\02\03\00\00\d4\00\00\00O\00\00\00\03\03\00\00\d5\00\00\00O\00\00\00\04\03\00\00L\01\00\00O\00\00\00\06\03\00\00N\01\00\00O\00\00\00\07\03\00\00.\02\00\00O\00\00\00\08\03\00\00\d6\00\00\00O\00\00\00\t\03\00\00\ce\1e\00\00O\00\00\00\0b\03\00\00P\01\00\00O\00\00\00\0c\03\00\00\d1\01\00\00O\00\00\00\0f\03\00\00\0c\02\00\00O\00\00\00\11\03\00\00\0e\02\00\00O\00\00\00\1b\03\00\00\a0\01\00\00O\00\00\00#\03\00\00\cc\1e\00\00O\00\00\00(\03\00\00\ea\01\00\00P\00\00\00\01\03\00\00T\1e\00\00P\00\00\00\07\03\00\00V\1e\00\00R\00\00\00\01\03\00\00T\01\00\00R\00\00\00\07\03\00\00X\1e\00\00R\00\00\00\0c\03\00\00X\01\00\00R\00\00\00\0f\03\00\00\10\02\00\00R\00\00\00\11\03\00\00\12\02\00\00R\00\00\00#\03\00\00Z\1e\00\00R\00\00\00\'\03\00\00V\01\00\00R\00\00\001\03\00\00^\1e\00\00S\00\00\00\01\03\00\00Z\01\00\00S\00\00\00\02\03\00\00\\\01\00\00S\00\00\00\07\03\00\00`\1e\00\00S\00\00\00\0c\03\00\00`\01\00\00S\00\00\00#\03\00\00b\1e\00\00S\00\00\00&\03\00\00\18\02\00\00S\00\00\00\'\03\00\00^\01\00\00T\00\00\00\07\03\00\00j\1e\00\00T\00\00\00\0c\03\00\00d\01\00\00T\00\00\00#\03\00\00l\1e\00\00T\00\00\00&\03\00\00\1a\02\00\00T\00\00\00\'\03\00\00b\01\00\00T\00\00\00-\03\00\00p\1e\00\00T\00\00\001\03\00\00n\1e\00\00U\00\00\00\00\03\00\00\d9\00\00\00U\00\00\00\01\03\00\00\da\00\00\00U\00\00\00\02\03\00\00\db\00\00\00U\00\00\00\03\03\00\00h\01\00\00U\00\00\00\04\03\00\00j\01\00\00U\00\00\00\06\03\00\00l\01\00\00U\00\00\00\08\03\00\00\dc\00\00\00U\00\00\00\t\03\00\00\e6\1e\00\00U\00\00\00\n\03\00\00n\01\00\00U\00\00\00\0b\03\00\00p\01\00\00U\00\00\00\0c\03\00\00\d3\01\00\00U\00\00\00\0f\03\00\00\14\02\00\00U\00\00\00\11\03\00\00\16\02\00\00U\00\00\00\1b\03\00\00\af\01\00\00U\00\00\00#\03\00\00\e4\1e\00\00U\00\00\00$\03\00\00r\1e\00\00U\00\00\00(\03\00\00r\01\00\00U\00\00\00-\03\00\00v\1e\00\00U\00\00\000\03\00\00t\1e\00\00V\00\00\00\03\03\00\00|\1e\00\00V\00\00\00#\03\00\00~\1e\00\00W\00\00\00\00\03\00\00\80\1e\00\00W\00\00\00\01\03\00\00\82\1e\00\00W\00\00\00\02\03\00\00t\01\00\00W\00\00\00\07\03\00\00\86\1e\00\00W\00\00\00\08\03\00\00\84\1e\00\00W\00\00\00#\03\00\00\88\1e\00\00X\00\00\00\07\03\00\00\8a\1e\00\00X\00\00\00\08\03\00\00\8c\1e\00\00Y\00\00\00\00\03\00\00\f2\1e\00\00Y\00\00\00\01\03\00\00\dd\00\00\00Y\00\00\00\02\03\00\00v\01\00\00Y\00\00\00\03\03\00\00\f8\1e\00\00Y\00\00\00\04\03\00\002\02\00\00Y\00\00\00\07\03\00\00\8e\1e\00\00Y\00\00\00\08\03\00\00x\01\00\00Y\00\00\00\t\03\00\00\f6\1e\00\00Y\00\00\00#\03\00\00\f4\1e\00\00Z\00\00\00\01\03\00\00y\01\00\00Z\00\00\00\02\03\00\00\90\1e\00\00Z\00\00\00\07\03\00\00{\01\00\00Z\00\00\00\0c\03\00\00}\01\00\00Z\00\00\00#\03\00\00\92\1e\00\00Z\00\00\001\03\00\00\94\1e\00\00a\00\00\00\00\03\00\00\e0\00\00\00a\00\00\00\01\03\00\00\e1\00\00\00a\00\00\00\02\03\00\00\e2\00\00\00a\00\00\00\03\03\00\00\e3\00\00\00a\00\00\00\04\03\00\00\01\01\00\00a\00\00\00\06\03\00\00\03\01\00\00a\00\00\00\07\03\00\00\'\02\00\00a\00\00\00\08\03\00\00\e4\00\00\00a\00\00\00\t\03\00\00\a3\1e\00\00a\00\00\00\n\03\00\00\e5\00\00\00a\00\00\00\0c\03\00\00\ce\01\00\00a\00\00\00\0f\03\00\00\01\02\00\00a\00\00\00\11\03\00\00\03\02\00\00a\00\00\00#\03\00\00\a1\1e\00\00a\00\00\00%\03\00\00\01\1e\00\00a\00\00\00(\03\00\00\05\01\00\00b\00\00\00\07\03\00\00\03\1e\00\00b\00\00\00#\03\00\00\05\1e\00\00b\00\00\001\03\00\00\07\1e\00\00c\00\00\00\01\03\00\00\07\01\00\00c\00\00\00\02\03\00\00\t\01\00\00c\00\00\00\07\03\00\00\0b\01\00\00c\00\00\00\0c\03\00\00\0d\01\00\00c\00\00\00\'\03\00\00\e7\00\00\00d\00\00\00\07\03\00\00\0b\1e\00\00d\00\00\00\0c\03\00\00\0f\01\00\00d\00\00\00#\03\00\00\0d\1e\00\00d\00\00\00\'\03\00\00\11\1e\00\00d\00\00\00-\03\00\00\13\1e\00\00d\00\00\001\03\00\00\0f\1e\00\00e\00\00\00\00\03\00\00\e8\00\00\00e\00\00\00\01\03\00\00\e9\00\00\00e\00\00\00\02\03\00\00\ea\00\00\00e\00\00\00\03\03\00\00\bd\1e\00\00e\00\00\00\04\03\00\00\13\01\00\00e\00\00\00\06\03\00\00\15\01\00\00e\00\00\00\07\03\00\00\17\01\00\00e\00\00\00\08\03\00\00\eb\00\00\00e\00\00\00\t\03\00\00\bb\1e\00\00e\00\00\00\0c\03\00\00\1b\01\00\00e\00\00\00\0f\03\00\00\05\02\00\00e\00\00\00\11\03\00\00\07\02\00\00e\00\00\00#\03\00\00\b9\1e\00\00e\00\00\00\'\03\00\00)\02\00\00e\00\00\00(\03\00\00\19\01\00\00e\00\00\00-\03\00\00\19\1e\00\00e\00\00\000\03\00\00\1b\1e\00\00f\00\00\00\07\03\00\00\1f\1e\00\00g\00\00\00\01\03\00\00\f5\01\00\00g\00\00\00\02\03\00\00\1d\01\00\00g\00\00\00\04\03\00\00!\1e\00\00g\00\00\00\06\03\00\00\1f\01\00\00g\00\00\00\07\03\00\00!\01\00\00g\00\00\00\0c\03\00\00\e7\01\00\00g\00\00\00\'\03\00\00#\01\00\00h\00\00\00\02\03\00\00%\01\00\00h\00\00\00\07\03\00\00#\1e\00\00h\00\00\00\08\03\00\00\'\1e\00\00h\00\00\00\0c\03\00\00\1f\02\00\00h\00\00\00#\03\00\00%\1e\00\00h\00\00\00\'\03\00\00)\1e\00\00h\00\00\00.\03\00\00+\1e\00\00h\00\00\001\03\00\00\96\1e\00\00i\00\00\00\00\03\00\00\ec\00\00\00i\00\00\00\01\03\00\00\ed\00\00\00i\00\00\00\02\03\00\00\ee\00\00\00i\00\00\00\03\03\00\00)\01\00\00i\00\00\00\04\03\00\00+\01\00\00i\00\00\00\06\03\00\00-\01\00\00i\00\00\00\08\03\00\00\ef\00\00\00i\00\00\00\t\03\00\00\c9\1e\00\00i\00\00\00\0c\03\00\00\d0\01\00\00i\00\00\00\0f\03\00\00\t\02\00\00i\00\00\00\11\03\00\00\0b\02\00\00i\00\00\00#\03\00\00\cb\1e\00\00i\00\00\00(\03\00\00/\01\00\00i\00\00\000\03\00\00-\1e\00\00j\00\00\00\02\03\00\005\01\00\00j\00\00\00\0c\03\00\00\f0\01\00\00k\00\00\00\01\03\00\001\1e\00\00k\00\00\00\0c\03\00\00\e9\01\00\00k\00\00\00#\03\00\003\1e\00\00k\00\00\00\'\03\00\007\01\00\00k\00\00\001\03\00\005\1e\00\00l\00\00\00\01\03\00\00:\01\00\00l\00\00\00\0c\03\00\00>\01\00\00l\00\00\00#\03\00\007\1e\00\00l\00\00\00\'\03\00\00<\01\00\00l\00\00\00-\03\00\00=\1e\00\00l\00\00\001\03\00\00;\1e\00\00m\00\00\00\01\03\00\00?\1e\00\00m\00\00\00\07\03\00\00A\1e\00\00m\00\00\00#\03\00\00C\1e\00\00n\00\00\00\00\03\00\00\f9\01\00\00n\00\00\00\01\03\00\00D\01\00\00n\00\00\00\03\03\00\00\f1\00\00\00n\00\00\00\07\03\00\00E\1e\00\00n\00\00\00\0c\03\00\00H\01\00\00n\00\00\00#\03\00\00G\1e\00\00n\00\00\00\'\03\00\00F\01\00\00n\00\00\00-\03\00\00K\1e\00\00n\00\00\001\03\00\00I\1e\00\00o\00\00\00\00\03\00\00\f2\00\00\00o\00\00\00\01\03\00\00\f3\00\00\00o\00\00\00\02\03\00\00\f4\00\00\00o\00\00\00\03\03\00\00\f5\00\00\00o\00\00\00\04\03\00\00M\01\00\00o\00\00\00\06\03\00\00O\01\00\00o\00\00\00\07\03\00\00/\02\00\00o\00\00\00\08\03\00\00\f6\00\00\00o\00\00\00\t\03\00\00\cf\1e\00\00o\00\00\00\0b\03\00\00Q\01\00\00o\00\00\00\0c\03\00\00\d2\01\00\00o\00\00\00\0f\03\00\00\0d\02\00\00o\00\00\00\11\03\00\00\0f\02\00\00o\00\00\00\1b\03\00\00\a1\01\00\00o\00\00\00#\03\00\00\cd\1e\00\00o\00\00\00(\03\00\00\eb\01\00\00p\00\00\00\01\03\00\00U\1e\00\00p\00\00\00\07\03\00\00W\1e\00\00r\00\00\00\01\03\00\00U\01\00\00r\00\00\00\07\03\00\00Y\1e\00\00r\00\00\00\0c\03\00\00Y\01\00\00r\00\00\00\0f\03\00\00\11\02\00\00r\00\00\00\11\03\00\00\13\02\00\00r\00\00\00#\03\00\00[\1e\00\00r\00\00\00\'\03\00\00W\01\00\00r\00\00\001\03\00\00_\1e\00\00s\00\00\00\01\03\00\00[\01\00\00s\00\00\00\02\03\00\00]\01\00\00s\00\00\00\07\03\00\00a\1e\00\00s\00\00\00\0c\03\00\00a\01\00\00s\00\00\00#\03\00\00c\1e\00\00s\00\00\00&\03\00\00\19\02\00\00s\00\00\00\'\03\00\00_\01\00\00t\00\00\00\07\03\00\00k\1e\00\00t\00\00\00\08\03\00\00\97\1e\00\00t\00\00\00\0c\03\00\00e\01\00\00t\00\00\00#\03\00\00m\1e\00\00t\00\00\00&\03\00\00\1b\02\00\00t\00\00\00\'\03\00\00c\01\00\00t\00\00\00-\03\00\00q\1e\00\00t\00\00\001\03\00\00o\1e\00\00u\00\00\00\00\03\00\00\f9\00\00\00u\00\00\00\01\03\00\00\fa\00\00\00u\00\00\00\02\03\00\00\fb\00\00\00u\00\00\00\03\03\00\00i\01\00\00u\00\00\00\04\03\00\00k\01\00\00u\00\00\00\06\03\00\00m\01\00\00u\00\00\00\08\03\00\00\fc\00\00\00u\00\00\00\t\03\00\00\e7\1e\00\00u\00\00\00\n\03\00\00o\01\00\00u\00\00\00\0b\03\00\00q\01\00\00u\00\00\00\0c\03\00\00\d4\01\00\00u\00\00\00\0f\03\00\00\15\02\00\00u\00\00\00\11\03\00\00\17\02\00\00u\00\00\00\1b\03\00\00\b0\01\00\00u\00\00\00#\03\00\00\e5\1e\00\00u\00\00\00$\03\00\00s\1e\00\00u\00\00\00(\03\00\00s\01\00\00u\00\00\00-\03\00\00w\1e\00\00u\00\00\000\03\00\00u\1e\00\00v\00\00\00\03\03\00\00}\1e\00\00v\00\00\00#\03\00\00\7f\1e\00\00w\00\00\00\00\03\00\00\81\1e\00\00w\00\00\00\01\03\00\00\83\1e\00\00w\00\00\00\02\03\00\00u\01\00\00w\00\00\00\07\03\00\00\87\1e\00\00w\00\00\00\08\03\00\00\85\1e\00\00w\00\00\00\n\03\00\00\98\1e\00\00w\00\00\00#\03\00\00\89\1e\00\00x\00\00\00\07\03\00\00\8b\1e\00\00x\00\00\00\08\03\00\00\8d\1e\00\00y\00\00\00\00\03\00\00\f3\1e\00\00y\00\00\00\01\03\00\00\fd\00\00\00y\00\00\00\02\03\00\00w\01\00\00y\00\00\00\03\03\00\00\f9\1e\00\00y\00\00\00\04\03\00\003\02\00\00y\00\00\00\07\03\00\00\8f\1e\00\00y\00\00\00\08\03\00\00\ff\00\00\00y\00\00\00\t\03\00\00\f7\1e\00\00y\00\00\00\n\03\00\00\99\1e\00\00y\00\00\00#\03\00\00\f5\1e\00\00z\00\00\00\01\03\00\00z\01\00\00z\00\00\00\02\03\00\00\91\1e\00\00z\00\00\00\07\03\00\00|\01\00\00z\00\00\00\0c\03\00\00~\01\00\00z\00\00\00#\03\00\00\93\1e\00\00z\00\00\001\03\00\00\95\1e\00\00\a8\00\00\00\00\03\00\00\ed\1f\00\00\a8\00\00\00\01\03\00\00\85\03\00\00\a8\00\00\00B\03\00\00\c1\1f\00\00\c2\00\00\00\00\03\00\00\a6\1e\00\00\c2\00\00\00\01\03\00\00\a4\1e\00\00\c2\00\00\00\03\03\00\00\aa\1e\00\00\c2\00\00\00\t\03\00\00\a8\1e\00\00\c4\00\00\00\04\03\00\00\de\01\00\00\c5\00\00\00\01\03\00\00\fa\01\00\00\c6\00\00\00\01\03\00\00\fc\01\00\00\c6\00\00\00\04\03\00\00\e2\01\00\00\c7\00\00\00\01\03\00\00\08\1e\00\00\ca\00\00\00\00\03\00\00\c0\1e\00\00\ca\00\00\00\01\03\00\00\be\1e\00\00\ca\00\00\00\03\03\00\00\c4\1e\00\00\ca\00\00\00\t\03\00\00\c2\1e\00\00\cf\00\00\00\01\03\00\00.\1e\00\00\d4\00\00\00\00\03\00\00\d2\1e\00\00\d4\00\00\00\01\03\00\00\d0\1e\00\00\d4\00\00\00\03\03\00\00\d6\1e\00\00\d4\00\00\00\t\03\00\00\d4\1e\00\00\d5\00\00\00\01\03\00\00L\1e\00\00\d5\00\00\00\04\03\00\00,\02\00\00\d5\00\00\00\08\03\00\00N\1e\00\00\d6\00\00\00\04\03\00\00*\02\00\00\d8\00\00\00\01\03\00\00\fe\01\00\00\dc\00\00\00\00\03\00\00\db\01\00\00\dc\00\00\00\01\03\00\00\d7\01\00\00\dc\00\00\00\04\03\00\00\d5\01\00\00\dc\00\00\00\0c\03\00\00\d9\01\00\00\e2\00\00\00\00\03\00\00\a7\1e\00\00\e2\00\00\00\01\03\00\00\a5\1e\00\00\e2\00\00\00\03\03\00\00\ab\1e\00\00\e2\00\00\00\t\03\00\00\a9\1e\00\00\e4\00\00\00\04\03\00\00\df\01\00\00\e5\00\00\00\01\03\00\00\fb\01\00\00\e6\00\00\00\01\03\00\00\fd\01\00\00\e6\00\00\00\04\03\00\00\e3\01\00\00\e7\00\00\00\01\03\00\00\t\1e\00\00\ea\00\00\00\00\03\00\00\c1\1e\00\00\ea\00\00\00\01\03\00\00\bf\1e\00\00\ea\00\00\00\03\03\00\00\c5\1e\00\00\ea\00\00\00\t\03\00\00\c3\1e\00\00\ef\00\00\00\01\03\00\00/\1e\00\00\f4\00\00\00\00\03\00\00\d3\1e\00\00\f4\00\00\00\01\03\00\00\d1\1e\00\00\f4\00\00\00\03\03\00\00\d7\1e\00\00\f4\00\00\00\t\03\00\00\d5\1e\00\00\f5\00\00\00\01\03\00\00M\1e\00\00\f5\00\00\00\04\03\00\00-\02\00\00\f5\00\00\00\08\03\00\00O\1e\00\00\f6\00\00\00\04\03\00\00+\02\00\00\f8\00\00\00\01\03\00\00\ff\01\00\00\fc\00\00\00\00\03\00\00\dc\01\00\00\fc\00\00\00\01\03\00\00\d8\01\00\00\fc\00\00\00\04\03\00\00\d6\01\00\00\fc\00\00\00\0c\03\00\00\da\01\00\00\02\01\00\00\00\03\00\00\b0\1e\00\00\02\01\00\00\01\03\00\00\ae\1e\00\00\02\01\00\00\03\03\00\00\b4\1e\00\00\02\01\00\00\t\03\00\00\b2\1e\00\00\03\01\00\00\00\03\00\00\b1\1e\00\00\03\01\00\00\01\03\00\00\af\1e\00\00\03\01\00\00\03\03\00\00\b5\1e\00\00\03\01\00\00\t\03\00\00\b3\1e\00\00\12\01\00\00\00\03\00\00\14\1e\00\00\12\01\00\00\01\03\00\00\16\1e\00\00\13\01\00\00\00\03\00\00\15\1e\00\00\13\01\00\00\01\03\00\00\17\1e\00\00L\01\00\00\00\03\00\00P\1e\00\00L\01\00\00\01\03\00\00R\1e\00\00M\01\00\00\00\03\00\00Q\1e\00\00M\01\00\00\01\03\00\00S\1e\00\00Z\01\00\00\07\03\00\00d\1e\00\00[\01\00\00\07\03\00\00e\1e\00\00`\01\00\00\07\03\00\00f\1e\00\00a\01\00\00\07\03\00\00g\1e\00\00h\01\00\00\01\03\00\00x\1e\00\00i\01\00\00\01\03\00\00y\1e\00\00j\01\00\00\08\03\00\00z\1e\00\00k\01\00\00\08\03\00\00{\1e\00\00\7f\01\00\00\07\03\00\00\9b\1e\00\00\a0\01\00\00\00\03\00\00\dc\1e\00\00\a0\01\00\00\01\03\00\00\da\1e\00\00\a0\01\00\00\03\03\00\00\e0\1e\00\00\a0\01\00\00\t\03\00\00\de\1e\00\00\a0\01\00\00#\03\00\00\e2\1e\00\00\a1\01\00\00\00\03\00\00\dd\1e\00\00\a1\01\00\00\01\03\00\00\db\1e\00\00\a1\01\00\00\03\03\00\00\e1\1e\00\00\a1\01\00\00\t\03\00\00\df\1e\00\00\a1\01\00\00#\03\00\00\e3\1e\00\00\af\01\00\00\00\03\00\00\ea\1e\00\00\af\01\00\00\01\03\00\00\e8\1e\00\00\af\01\00\00\03\03\00\00\ee\1e\00\00\af\01\00\00\t\03\00\00\ec\1e\00\00\af\01\00\00#\03\00\00\f0\1e\00\00\b0\01\00\00\00\03\00\00\eb\1e\00\00\b0\01\00\00\01\03\00\00\e9\1e\00\00\b0\01\00\00\03\03\00\00\ef\1e\00\00\b0\01\00\00\t\03\00\00\ed\1e\00\00\b0\01\00\00#\03\00\00\f1\1e\00\00\b7\01\00\00\0c\03\00\00\ee\01\00\00\ea\01\00\00\04\03\00\00\ec\01\00\00\eb\01\00\00\04\03\00\00\ed\01\00\00&\02\00\00\04\03\00\00\e0\01\00\00\'\02\00\00\04\03\00\00\e1\01\00\00(\02\00\00\06\03\00\00\1c\1e\00\00)\02\00\00\06\03\00\00\1d\1e\00\00.\02\00\00\04\03\00\000\02\00\00/\02\00\00\04\03\00\001\02\00\00\92\02\00\00\0c\03\00\00\ef\01\00\00\91\03\00\00\00\03\00\00\ba\1f\00\00\91\03\00\00\01\03\00\00\86\03\00\00\91\03\00\00\04\03\00\00\b9\1f\00\00\91\03\00\00\06\03\00\00\b8\1f\00\00\91\03\00\00\13\03\00\00\08\1f\00\00\91\03\00\00\14\03\00\00\t\1f\00\00\91\03\00\00E\03\00\00\bc\1f\00\00\95\03\00\00\00\03\00\00\c8\1f\00\00\95\03\00\00\01\03\00\00\88\03\00\00\95\03\00\00\13\03\00\00\18\1f\00\00\95\03\00\00\14\03\00\00\19\1f\00\00\97\03\00\00\00\03\00\00\ca\1f\00\00\97\03\00\00\01\03\00\00\89\03\00\00\97\03\00\00\13\03\00\00(\1f\00\00\97\03\00\00\14\03\00\00)\1f\00\00\97\03\00\00E\03\00\00\cc\1f\00\00\99\03\00\00\00\03\00\00\da\1f\00\00\99\03\00\00\01\03\00\00\8a\03\00\00\99\03\00\00\04\03\00\00\d9\1f\00\00\99\03\00\00\06\03\00\00\d8\1f\00\00\99\03\00\00\08\03\00\00\aa\03\00\00\99\03\00\00\13\03\00\008\1f\00\00\99\03\00\00\14\03\00\009\1f\00\00\9f\03\00\00\00\03\00\00\f8\1f\00\00\9f\03\00\00\01\03\00\00\8c\03\00\00\9f\03\00\00\13\03\00\00H\1f\00\00\9f\03\00\00\14\03\00\00I\1f\00\00\a1\03\00\00\14\03\00\00\ec\1f\00\00\a5\03\00\00\00\03\00\00\ea\1f\00\00\a5\03\00\00\01\03\00\00\8e\03\00\00\a5\03\00\00\04\03\00\00\e9\1f\00\00\a5\03\00\00\06\03\00\00\e8\1f\00\00\a5\03\00\00\08\03\00\00\ab\03\00\00\a5\03\00\00\14\03\00\00Y\1f\00\00\a9\03\00\00\00\03\00\00\fa\1f\00\00\a9\03\00\00\01\03\00\00\8f\03\00\00\a9\03\00\00\13\03\00\00h\1f\00\00\a9\03\00\00\14\03\00\00i\1f\00\00\a9\03\00\00E\03\00\00\fc\1f\00\00\ac\03\00\00E\03\00\00\b4\1f\00\00\ae\03\00\00E\03\00\00\c4\1f\00\00\b1\03\00\00\00\03\00\00p\1f\00\00\b1\03\00\00\01\03\00\00\ac\03\00\00\b1\03\00\00\04\03\00\00\b1\1f\00\00\b1\03\00\00\06\03\00\00\b0\1f\00\00\b1\03\00\00\13\03\00\00\00\1f\00\00\b1\03\00\00\14\03\00\00\01\1f\00\00\b1\03\00\00B\03\00\00\b6\1f\00\00\b1\03\00\00E\03\00\00\b3\1f\00\00\b5\03\00\00\00\03\00\00r\1f\00\00\b5\03\00\00\01\03\00\00\ad\03\00\00\b5\03\00\00\13\03\00\00\10\1f\00\00\b5\03\00\00\14\03\00\00\11\1f\00\00\b7\03\00\00\00\03\00\00t\1f\00\00\b7\03\00\00\01\03\00\00\ae\03\00\00\b7\03\00\00\13\03\00\00 \1f\00\00\b7\03\00\00\14\03\00\00!\1f\00\00\b7\03\00\00B\03\00\00\c6\1f\00\00\b7\03\00\00E\03\00\00\c3\1f\00\00\b9\03\00\00\00\03\00\00v\1f\00\00\b9\03\00\00\01\03\00\00\af\03\00\00\b9\03\00\00\04\03\00\00\d1\1f\00\00\b9\03\00\00\06\03\00\00\d0\1f\00\00\b9\03\00\00\08\03\00\00\ca\03\00\00\b9\03\00\00\13\03\00\000\1f\00\00\b9\03\00\00\14\03\00\001\1f\00\00\b9\03\00\00B\03\00\00\d6\1f\00\00\bf\03\00\00\00\03\00\00x\1f\00\00\bf\03\00\00\01\03\00\00\cc\03\00\00\bf\03\00\00\13\03\00\00@\1f\00\00\bf\03\00\00\14\03\00\00A\1f\00\00\c1\03\00\00\13\03\00\00\e4\1f\00\00\c1\03\00\00\14\03\00\00\e5\1f\00\00\c5\03\00\00\00\03\00\00z\1f\00\00\c5\03\00\00\01\03\00\00\cd\03\00\00\c5\03\00\00\04\03\00\00\e1\1f\00\00\c5\03\00\00\06\03\00\00\e0\1f\00\00\c5\03\00\00\08\03\00\00\cb\03\00\00\c5\03\00\00\13\03\00\00P\1f\00\00\c5\03\00\00\14\03\00\00Q\1f\00\00\c5\03\00\00B\03\00\00\e6\1f\00\00\c9\03\00\00\00\03\00\00|\1f\00\00\c9\03\00\00\01\03\00\00\ce\03\00\00\c9\03\00\00\13\03\00\00`\1f\00\00\c9\03\00\00\14\03\00\00a\1f\00\00\c9\03\00\00B\03\00\00\f6\1f\00\00\c9\03\00\00E\03\00\00\f3\1f\00\00\ca\03\00\00\00\03\00\00\d2\1f\00\00\ca\03\00\00\01\03\00\00\90\03\00\00\ca\03\00\00B\03\00\00\d7\1f\00\00\cb\03\00\00\00\03\00\00\e2\1f\00\00\cb\03\00\00\01\03\00\00\b0\03\00\00\cb\03\00\00B\03\00\00\e7\1f\00\00\ce\03\00\00E\03\00\00\f4\1f\00\00\d2\03\00\00\01\03\00\00\d3\03\00\00\d2\03\00\00\08\03\00\00\d4\03\00\00\06\04\00\00\08\03\00\00\07\04\00\00\10\04\00\00\06\03\00\00\d0\04\00\00\10\04\00\00\08\03\00\00\d2\04\00\00\13\04\00\00\01\03\00\00\03\04\00\00\15\04\00\00\00\03\00\00\00\04\00\00\15\04\00\00\06\03\00\00\d6\04\00\00\15\04\00\00\08\03\00\00\01\04\00\00\16\04\00\00\06\03\00\00\c1\04\00\00\16\04\00\00\08\03\00\00\dc\04\00\00\17\04\00\00\08\03\00\00\de\04\00\00\18\04\00\00\00\03\00\00\0d\04\00\00\18\04\00\00\04\03\00\00\e2\04\00\00\18\04\00\00\06\03\00\00\19\04\00\00\18\04\00\00\08\03\00\00\e4\04\00\00\1a\04\00\00\01\03\00\00\0c\04\00\00\1e\04\00\00\08\03\00\00\e6\04\00\00#\04\00\00\04\03\00\00\ee\04\00\00#\04\00\00\06\03\00\00\0e\04\00\00#\04\00\00\08\03\00\00\f0\04\00\00#\04\00\00\0b\03\00\00\f2\04\00\00\'\04\00\00\08\03\00\00\f4\04\00\00+\04\00\00\08\03\00\00\f8\04\00\00-\04\00\00\08\03\00\00\ec\04\00\000\04\00\00\06\03\00\00\d1\04\00\000\04\00\00\08\03\00\00\d3\04\00\003\04\00\00\01\03\00\00S\04\00\005\04\00\00\00\03\00\00P\04\00\005\04\00\00\06\03\00\00\d7\04\00\005\04\00\00\08\03\00\00Q\04\00\006\04\00\00\06\03\00\00\c2\04\00\006\04\00\00\08\03\00\00\dd\04\00\007\04\00\00\08\03\00\00\df\04\00\008\04\00\00\00\03\00\00]\04\00\008\04\00\00\04\03\00\00\e3\04\00\008\04\00\00\06\03\00\009\04\00\008\04\00\00\08\03\00\00\e5\04\00\00:\04\00\00\01\03\00\00\\\04\00\00>\04\00\00\08\03\00\00\e7\04\00\00C\04\00\00\04\03\00\00\ef\04\00\00C\04\00\00\06\03\00\00^\04\00\00C\04\00\00\08\03\00\00\f1\04\00\00C\04\00\00\0b\03\00\00\f3\04\00\00G\04\00\00\08\03\00\00\f5\04\00\00K\04\00\00\08\03\00\00\f9\04\00\00M\04\00\00\08\03\00\00\ed\04\00\00V\04\00\00\08\03\00\00W\04\00\00t\04\00\00\0f\03\00\00v\04\00\00u\04\00\00\0f\03\00\00w\04\00\00\d8\04\00\00\08\03\00\00\da\04\00\00\d9\04\00\00\08\03\00\00\db\04\00\00\e8\04\00\00\08\03\00\00\ea\04\00\00\e9\04\00\00\08\03\00\00\eb\04\00\00\'\06\00\00S\06\00\00\"\06\00\00\'\06\00\00T\06\00\00#\06\00\00\'\06\00\00U\06\00\00%\06\00\00H\06\00\00T\06\00\00$\06\00\00J\06\00\00T\06\00\00&\06\00\00\c1\06\00\00T\06\00\00\c2\06\00\00\d2\06\00\00T\06\00\00\d3\06\00\00\d5\06\00\00T\06\00\00\c0\06\00\00(\t\00\00<\t\00\00)\t\00\000\t\00\00<\t\00\001\t\00\003\t\00\00<\t\00\004\t\00\00\c7\t\00\00\be\t\00\00\cb\t\00\00\c7\t\00\00\d7\t\00\00\cc\t\00\00G\0b\00\00>\0b\00\00K\0b\00\00G\0b\00\00V\0b\00\00H\0b\00\00G\0b\00\00W\0b\00\00L\0b\00\00\92\0b\00\00\d7\0b\00\00\94\0b\00\00\c6\0b\00\00\be\0b\00\00\ca\0b\00\00\c6\0b\00\00\d7\0b\00\00\cc\0b\00\00\c7\0b\00\00\be\0b\00\00\cb\0b\00\00F\0c\00\00V\0c\00\00H\0c\00\00\bf\0c\00\00\d5\0c\00\00\c0\0c\00\00\c6\0c\00\00\c2\0c\00\00\ca\0c\00\00\c6\0c\00\00\d5\0c\00\00\c7\0c\00\00\c6\0c\00\00\d6\0c\00\00\c8\0c\00\00\ca\0c\00\00\d5\0c\00\00\cb\0c\00\00F\0d\00\00>\0d\00\00J\0d\00\00F\0d\00\00W\0d\00\00L\0d\00\00G\0d\00\00>\0d\00\00K\0d\00\00\d9\0d\00\00\ca\0d\00\00\da\0d\00\00\d9\0d\00\00\cf\0d\00\00\dc\0d\00\00\d9\0d\00\00\df\0d\00\00\de\0d\00\00\dc\0d\00\00\ca\0d\00\00\dd\0d\00\00%\10\00\00.\10\00\00&\10\00\00\05\1b\00\005\1b\00\00\06\1b\00\00\07\1b\00\005\1b\00\00\08\1b\00\00\t\1b\00\005\1b\00\00\n\1b\00\00\0b\1b\00\005\1b\00\00\0c\1b\00\00\0d\1b\00\005\1b\00\00\0e\1b\00\00\11\1b\00\005\1b\00\00\12\1b\00\00:\1b\00\005\1b\00\00;\1b\00\00<\1b\00\005\1b\00\00=\1b\00\00>\1b\00\005\1b\00\00@\1b\00\00?\1b\00\005\1b\00\00A\1b\00\00B\1b\00\005\1b\00\00C\1b\00\006\1e\00\00\04\03\00\008\1e\00\007\1e\00\00\04\03\00\009\1e\00\00Z\1e\00\00\04\03\00\00\\\1e\00\00[\1e\00\00\04\03\00\00]\1e\00\00b\1e\00\00\07\03\00\00h\1e\00\00c\1e\00\00\07\03\00\00i\1e\00\00\a0\1e\00\00\02\03\00\00\ac\1e\00\00\a0\1e\00\00\06\03\00\00\b6\1e\00\00\a1\1e\00\00\02\03\00\00\ad\1e\00\00\a1\1e\00\00\06\03\00\00\b7\1e\00\00\b8\1e\00\00\02\03\00\00\c6\1e\00\00\b9\1e\00\00\02\03\00\00\c7\1e\00\00\cc\1e\00\00\02\03\00\00\d8\1e\00\00\cd\1e\00\00\02\03\00\00\d9\1e\00\00\00\1f\00\00\00\03\00\00\02\1f\00\00\00\1f\00\00\01\03\00\00\04\1f\00\00\00\1f\00\00B\03\00\00\06\1f\00\00\00\1f\00\00E\03\00\00\80\1f\00\00\01\1f\00\00\00\03\00\00\03\1f\00\00\01\1f\00\00\01\03\00\00\05\1f\00\00\01\1f\00\00B\03\00\00\07\1f\00\00\01\1f\00\00E\03\00\00\81\1f\00\00\02\1f\00\00E\03\00\00\82\1f\00\00\03\1f\00\00E\03\00\00\83\1f\00\00\04\1f\00\00E\03\00\00\84\1f\00\00\05\1f\00\00E\03\00\00\85\1f\00\00\06\1f\00\00E\03\00\00\86\1f\00\00\07\1f\00\00E\03\00\00\87\1f\00\00\08\1f\00\00\00\03\00\00\n\1f\00\00\08\1f\00\00\01\03\00\00\0c\1f\00\00\08\1f\00\00B\03\00\00\0e\1f\00\00\08\1f\00\00E\03\00\00\88\1f\00\00\t\1f\00\00\00\03\00\00\0b\1f\00\00\t\1f\00\00\01\03\00\00\0d\1f\00\00\t\1f\00\00B\03\00\00\0f\1f\00\00\t\1f\00\00E\03\00\00\89\1f\00\00\n\1f\00\00E\03\00\00\8a\1f\00\00\0b\1f\00\00E\03\00\00\8b\1f\00\00\0c\1f\00\00E\03\00\00\8c\1f\00\00\0d\1f\00\00E\03\00\00\8d\1f\00\00\0e\1f\00\00E\03\00\00\8e\1f\00\00\0f\1f\00\00E\03\00\00\8f\1f\00\00\10\1f\00\00\00\03\00\00\12\1f\00\00\10\1f\00\00\01\03\00\00\14\1f\00\00\11\1f\00\00\00\03\00\00\13\1f\00\00\11\1f\00\00\01\03\00\00\15\1f\00\00\18\1f\00\00\00\03\00\00\1a\1f\00\00\18\1f\00\00\01\03\00\00\1c\1f\00\00\19\1f\00\00\00\03\00\00\1b\1f\00\00\19\1f\00\00\01\03\00\00\1d\1f\00\00 \1f\00\00\00\03\00\00\"\1f\00\00 \1f\00\00\01\03\00\00$\1f\00\00 \1f\00\00B\03\00\00&\1f\00\00 \1f\00\00E\03\00\00\90\1f\00\00!\1f\00\00\00\03\00\00#\1f\00\00!\1f\00\00\01\03\00\00%\1f\00\00!\1f\00\00B\03\00\00\'\1f\00\00!\1f\00\00E\03\00\00\91\1f\00\00\"\1f\00\00E\03\00\00\92\1f\00\00#\1f\00\00E\03\00\00\93\1f\00\00$\1f\00\00E\03\00\00\94\1f\00\00%\1f\00\00E\03\00\00\95\1f\00\00&\1f\00\00E\03\00\00\96\1f\00\00\'\1f\00\00E\03\00\00\97\1f\00\00(\1f\00\00\00\03\00\00*\1f\00\00(\1f\00\00\01\03\00\00,\1f\00\00(\1f\00\00B\03\00\00.\1f\00\00(\1f\00\00E\03\00\00\98\1f\00\00)\1f\00\00\00\03\00\00+\1f\00\00)\1f\00\00\01\03\00\00-\1f\00\00)\1f\00\00B\03\00\00/\1f\00\00)\1f\00\00E\03\00\00\99\1f\00\00*\1f\00\00E\03\00\00\9a\1f\00\00+\1f\00\00E\03\00\00\9b\1f\00\00,\1f\00\00E\03\00\00\9c\1f\00\00-\1f\00\00E\03\00\00\9d\1f\00\00.\1f\00\00E\03\00\00\9e\1f\00\00/\1f\00\00E\03\00\00\9f\1f\00\000\1f\00\00\00\03\00\002\1f\00\000\1f\00\00\01\03\00\004\1f\00\000\1f\00\00B\03\00\006\1f\00\001\1f\00\00\00\03\00\003\1f\00\001\1f\00\00\01\03\00\005\1f\00\001\1f\00\00B\03\00\007\1f\00\008\1f\00\00\00\03\00\00:\1f\00\008\1f\00\00\01\03\00\00<\1f\00\008\1f\00\00B\03\00\00>\1f\00\009\1f\00\00\00\03\00\00;\1f\00\009\1f\00\00\01\03\00\00=\1f\00\009\1f\00\00B\03\00\00?\1f\00\00@\1f\00\00\00\03\00\00B\1f\00\00@\1f\00\00\01\03\00\00D\1f\00\00A\1f\00\00\00\03\00\00C\1f\00\00A\1f\00\00\01\03\00\00E\1f\00\00H\1f\00\00\00\03\00\00J\1f\00\00H\1f\00\00\01\03\00\00L\1f\00\00I\1f\00\00\00\03\00\00K\1f\00\00I\1f\00\00\01\03\00\00M\1f\00\00P\1f\00\00\00\03\00\00R\1f\00\00P\1f\00\00\01\03\00\00T\1f\00\00P\1f\00\00B\03\00\00V\1f\00\00Q\1f\00\00\00\03\00\00S\1f\00\00Q\1f\00\00\01\03\00\00U\1f\00\00Q\1f\00\00B\03\00\00W\1f\00\00Y\1f\00\00\00\03\00\00[\1f\00\00Y\1f\00\00\01\03\00\00]\1f\00\00Y\1f\00\00B\03\00\00_\1f\00\00`\1f\00\00\00\03\00\00b\1f\00\00`\1f\00\00\01\03\00\00d\1f\00\00`\1f\00\00B\03\00\00f\1f\00\00`\1f\00\00E\03\00\00\a0\1f\00\00a\1f\00\00\00\03\00\00c\1f\00\00a\1f\00\00\01\03\00\00e\1f\00\00a\1f\00\00B\03\00\00g\1f\00\00a\1f\00\00E\03\00\00\a1\1f\00\00b\1f\00\00E\03\00\00\a2\1f\00\00c\1f\00\00E\03\00\00\a3\1f\00\00d\1f\00\00E\03\00\00\a4\1f\00\00e\1f\00\00E\03\00\00\a5\1f\00\00f\1f\00\00E\03\00\00\a6\1f\00\00g\1f\00\00E\03\00\00\a7\1f\00\00h\1f\00\00\00\03\00\00j\1f\00\00h\1f\00\00\01\03\00\00l\1f\00\00h\1f\00\00B\03\00\00n\1f\00\00h\1f\00\00E\03\00\00\a8\1f\00\00i\1f\00\00\00\03\00\00k\1f\00\00i\1f\00\00\01\03\00\00m\1f\00\00i\1f\00\00B\03\00\00o\1f\00\00i\1f\00\00E\03\00\00\a9\1f\00\00j\1f\00\00E\03\00\00\aa\1f\00\00k\1f\00\00E\03\00\00\ab\1f\00\00l\1f\00\00E\03\00\00\ac\1f\00\00m\1f\00\00E\03\00\00\ad\1f\00\00n\1f\00\00E\03\00\00\ae\1f\00\00o\1f\00\00E\03\00\00\af\1f\00\00p\1f\00\00E\03\00\00\b2\1f\00\00t\1f\00\00E\03\00\00\c2\1f\00\00|\1f\00\00E\03\00\00\f2\1f\00\00\b6\1f\00\00E\03\00\00\b7\1f\00\00\bf\1f\00\00\00\03\00\00\cd\1f\00\00\bf\1f\00\00\01\03\00\00\ce\1f\00\00\bf\1f\00\00B\03\00\00\cf\1f\00\00\c6\1f\00\00E\03\00\00\c7\1f\00\00\f6\1f\00\00E\03\00\00\f7\1f\00\00\fe\1f\00\00\00\03\00\00\dd\1f\00\00\fe\1f\00\00\01\03\00\00\de\1f\00\00\fe\1f\00\00B\03\00\00\df\1f\00\00\90!\00\008\03\00\00\9a!\00\00\92!\00\008\03\00\00\9b!\00\00\94!\00\008\03\00\00\ae!\00\00\d0!\00\008\03\00\00\cd!\00\00\d2!\00\008\03\00\00\cf!\00\00\d4!\00\008\03\00\00\ce!\00\00\03\"\00\008\03\00\00\04\"\00\00\08\"\00\008\03\00\00\t\"\00\00\0b\"\00\008\03\00\00\0c\"\00\00#\"\00\008\03\00\00$\"\00\00%\"\00\008\03\00\00&\"\00\00<\"\00\008\03\00\00A\"\00\00C\"\00\008\03\00\00D\"\00\00E\"\00\008\03\00\00G\"\00\00H\"\00\008\03\00\00I\"\00\00M\"\00\008\03\00\00m\"\00\00a\"\00\008\03\00\00b\"\00\00d\"\00\008\03\00\00p\"\00\00e\"\00\008\03\00\00q\"\00\00r\"\00\008\03\00\00t\"\00\00s\"\00\008\03\00\00u\"\00\00v\"\00\008\03\00\00x\"\00\00w\"\00\008\03\00\00y\"\00\00z\"\00\008\03\00\00\80\"\00\00{\"\00\008\03\00\00\81\"\00\00|\"\00\008\03\00\00\e0\"\00\00}\"\00\008\03\00\00\e1\"\00\00\82\"\00\008\03\00\00\84\"\00\00\83\"\00\008\03\00\00\85\"\00\00\86\"\00\008\03\00\00\88\"\00\00\87\"\00\008\03\00\00\89\"\00\00\91\"\00\008\03\00\00\e2\"\00\00\92\"\00\008\03\00\00\e3\"\00\00\a2\"\00\008\03\00\00\ac\"\00\00\a8\"\00\008\03\00\00\ad\"\00\00\a9\"\00\008\03\00\00\ae\"\00\00\ab\"\00\008\03\00\00\af\"\00\00\b2\"\00\008\03\00\00\ea\"\00\00\b3\"\00\008\03\00\00\eb\"\00\00\b4\"\00\008\03\00\00\ec\"\00\00\b5\"\00\008\03\00\00\ed\"\00\00F0\00\00\990\00\00\940\00\00K0\00\00\990\00\00L0\00\00M0\00\00\990\00\00N0\00\00O0\00\00\990\00\00P0\00\00Q0\00\00\990\00\00R0\00\00S0\00\00\990\00\00T0\00\00U0\00\00\990\00\00V0\00\00W0\00\00\990\00\00X0\00\00Y0\00\00\990\00\00Z0\00\00[0\00\00\990\00\00\\0\00\00]0\00\00\990\00\00^0\00\00_0\00\00\990\00\00`0\00\00a0\00\00\990\00\00b0\00\00d0\00\00\990\00\00e0\00\00f0\00\00\990\00\00g0\00\00h0\00\00\990\00\00i0\00\00o0\00\00\990\00\00p0\00\00o0\00\00\9a0\00\00q0\00\00r0\00\00\990\00\00s0\00\00r0\00\00\9a0\00\00t0\00\00u0\00\00\990\00\00v0\00\00u0\00\00\9a0\00\00w0\00\00x0\00\00\990\00\00y0\00\00x0\00\00\9a0\00\00z0\00\00{0\00\00\990\00\00|0\00\00{0\00\00\9a0\00\00}0\00\00\9d0\00\00\990\00\00\9e0\00\00\a60\00\00\990\00\00\f40\00\00\ab0\00\00\990\00\00\ac0\00\00\ad0\00\00\990\00\00\ae0\00\00\af0\00\00\990\00\00\b00\00\00\b10\00\00\990\00\00\b20\00\00\b30\00\00\990\00\00\b40\00\00\b50\00\00\990\00\00\b60\00\00\b70\00\00\990\00\00\b80\00\00\b90\00\00\990\00\00\ba0\00\00\bb0\00\00\990\00\00\bc0\00\00\bd0\00\00\990\00\00\be0\00\00\bf0\00\00\990\00\00\c00\00\00\c10\00\00\990\00\00\c20\00\00\c40\00\00\990\00\00\c50\00\00\c60\00\00\990\00\00\c70\00\00\c80\00\00\990\00\00\c90\00\00\cf0\00\00\990\00\00\d00\00\00\cf0\00\00\9a0\00\00\d10\00\00\d20\00\00\990\00\00\d30\00\00\d20\00\00\9a0\00\00\d40\00\00\d50\00\00\990\00\00\d60\00\00\d50\00\00\9a0\00\00\d70\00\00\d80\00\00\990\00\00\d90\00\00\d80\00\00\9a0\00\00\da0\00\00\db0\00\00\990\00\00\dc0\00\00\db0\00\00\9a0\00\00\dd0\00\00\ef0\00\00\990\00\00\f70\00\00\f00\00\00\990\00\00\f80\00\00\f10\00\00\990\00\00\f90\00\00\f20\00\00\990\00\00\fa0\00\00\fd0\00\00\990\00\00\fe0\00\00\d2\05\01\00\07\03\00\00\c9\05\01\00\da\05\01\00\07\03\00\00\e4\05\01\00\99\10\01\00\ba\10\01\00\9a\10\01\00\9b\10\01\00\ba\10\01\00\9c\10\01\00\a5\10\01\00\ba\10\01\00\ab\10\01\001\11\01\00\'\11\01\00.\11\01\002\11\01\00\'\11\01\00/\11\01\00G\13\01\00>\13\01\00K\13\01\00G\13\01\00W\13\01\00L\13\01\00\82\13\01\00\c9\13\01\00\83\13\01\00\84\13\01\00\bb\13\01\00\85\13\01\00\8b\13\01\00\c2\13\01\00\8e\13\01\00\90\13\01\00\c9\13\01\00\91\13\01\00\c2\13\01\00\b8\13\01\00\c7\13\01\00\c2\13\01\00\c2\13\01\00\c5\13\01\00\c2\13\01\00\c9\13\01\00\c8\13\01\00\b9\14\01\00\b0\14\01\00\bc\14\01\00\b9\14\01\00\ba\14\01\00\bb\14\01\00\b9\14\01\00\bd\14\01\00\be\14\01\00\b8\15\01\00\af\15\01\00\ba\15\01\00\b9\15\01\00\af\15\01\00\bb\15\01\005\19\01\000\19\01\008\19\01\00\1ea\01\00\1ea\01\00!a\01\00\1ea\01\00\1fa\01\00#a\01\00\1ea\01\00 a\01\00%a\01\00\1ea\01\00)a\01\00\"a\01\00!a\01\00\1fa\01\00&a\01\00!a\01\00 a\01\00(a\01\00\"a\01\00\1fa\01\00\'a\01\00)a\01\00\1fa\01\00$a\01\00cm\01\00gm\01\00im\01\00gm\01\00gm\01\00hm\01\00im\01\00gm\01\00jm\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 182672) "\90\89\02\00C\0b\00\00")
+ (data (i32.const 182680) "p\0c\00\00\00\00\00\00a\00\00\00z\00\00\00\01\00\00\00\e0\ff\ff\ff\b5\00\00\00\b5\00\00\00\01\00\00\00\e7\02\00\00\e0\00\00\00\f6\00\00\00\01\00\00\00\e0\ff\ff\ff\f8\00\00\00\fe\00\00\00\01\00\00\00\e0\ff\ff\ff\ff\00\00\00\ff\00\00\00\01\00\00\00y\00\00\00\01\01\00\00/\01\00\00\02\00\00\00\ff\ff\ff\ff1\01\00\001\01\00\00\01\00\00\00\18\ff\ff\ff3\01\00\007\01\00\00\02\00\00\00\ff\ff\ff\ff:\01\00\00H\01\00\00\02\00\00\00\ff\ff\ff\ffK\01\00\00w\01\00\00\02\00\00\00\ff\ff\ff\ffz\01\00\00~\01\00\00\02\00\00\00\ff\ff\ff\ff\7f\01\00\00\7f\01\00\00\01\00\00\00\d4\fe\ff\ff\80\01\00\00\80\01\00\00\01\00\00\00\c3\00\00\00\83\01\00\00\85\01\00\00\02\00\00\00\ff\ff\ff\ff\88\01\00\00\88\01\00\00\01\00\00\00\ff\ff\ff\ff\8c\01\00\00\8c\01\00\00\01\00\00\00\ff\ff\ff\ff\92\01\00\00\92\01\00\00\01\00\00\00\ff\ff\ff\ff\95\01\00\00\95\01\00\00\01\00\00\00a\00\00\00\99\01\00\00\99\01\00\00\01\00\00\00\ff\ff\ff\ff\9a\01\00\00\9a\01\00\00\01\00\00\00\a3\00\00\00\9b\01\00\00\9b\01\00\00\01\00\00\00A\a6\00\00\9e\01\00\00\9e\01\00\00\01\00\00\00\82\00\00\00\a1\01\00\00\a5\01\00\00\02\00\00\00\ff\ff\ff\ff\a8\01\00\00\a8\01\00\00\01\00\00\00\ff\ff\ff\ff\ad\01\00\00\ad\01\00\00\01\00\00\00\ff\ff\ff\ff\b0\01\00\00\b0\01\00\00\01\00\00\00\ff\ff\ff\ff\b4\01\00\00\b6\01\00\00\02\00\00\00\ff\ff\ff\ff\b9\01\00\00\b9\01\00\00\01\00\00\00\ff\ff\ff\ff\bd\01\00\00\bd\01\00\00\01\00\00\00\ff\ff\ff\ff\bf\01\00\00\bf\01\00\00\01\00\00\008\00\00\00\c5\01\00\00\c5\01\00\00\01\00\00\00\ff\ff\ff\ff\c6\01\00\00\c6\01\00\00\01\00\00\00\fe\ff\ff\ff\c8\01\00\00\c8\01\00\00\01\00\00\00\ff\ff\ff\ff\c9\01\00\00\c9\01\00\00\01\00\00\00\fe\ff\ff\ff\cb\01\00\00\cb\01\00\00\01\00\00\00\ff\ff\ff\ff\cc\01\00\00\cc\01\00\00\01\00\00\00\fe\ff\ff\ff\ce\01\00\00\dc\01\00\00\02\00\00\00\ff\ff\ff\ff\dd\01\00\00\dd\01\00\00\01\00\00\00\b1\ff\ff\ff\df\01\00\00\ef\01\00\00\02\00\00\00\ff\ff\ff\ff\f2\01\00\00\f2\01\00\00\01\00\00\00\ff\ff\ff\ff\f3\01\00\00\f3\01\00\00\01\00\00\00\fe\ff\ff\ff\f5\01\00\00\f5\01\00\00\01\00\00\00\ff\ff\ff\ff\f9\01\00\00\1f\02\00\00\02\00\00\00\ff\ff\ff\ff#\02\00\003\02\00\00\02\00\00\00\ff\ff\ff\ff<\02\00\00<\02\00\00\01\00\00\00\ff\ff\ff\ff?\02\00\00@\02\00\00\01\00\00\00?*\00\00B\02\00\00B\02\00\00\01\00\00\00\ff\ff\ff\ffG\02\00\00O\02\00\00\02\00\00\00\ff\ff\ff\ffP\02\00\00P\02\00\00\01\00\00\00\1f*\00\00Q\02\00\00Q\02\00\00\01\00\00\00\1c*\00\00R\02\00\00R\02\00\00\01\00\00\00\1e*\00\00S\02\00\00S\02\00\00\01\00\00\00.\ff\ff\ffT\02\00\00T\02\00\00\01\00\00\002\ff\ff\ffV\02\00\00W\02\00\00\01\00\00\003\ff\ff\ffY\02\00\00Y\02\00\00\01\00\00\006\ff\ff\ff[\02\00\00[\02\00\00\01\00\00\005\ff\ff\ff\\\02\00\00\\\02\00\00\01\00\00\00O\a5\00\00`\02\00\00`\02\00\00\01\00\00\003\ff\ff\ffa\02\00\00a\02\00\00\01\00\00\00K\a5\00\00c\02\00\00c\02\00\00\01\00\00\001\ff\ff\ffd\02\00\00d\02\00\00\01\00\00\00g\a5\00\00e\02\00\00e\02\00\00\01\00\00\00(\a5\00\00f\02\00\00f\02\00\00\01\00\00\00D\a5\00\00h\02\00\00h\02\00\00\01\00\00\00/\ff\ff\ffi\02\00\00i\02\00\00\01\00\00\00-\ff\ff\ffj\02\00\00j\02\00\00\01\00\00\00D\a5\00\00k\02\00\00k\02\00\00\01\00\00\00\f7)\00\00l\02\00\00l\02\00\00\01\00\00\00A\a5\00\00o\02\00\00o\02\00\00\01\00\00\00-\ff\ff\ffq\02\00\00q\02\00\00\01\00\00\00\fd)\00\00r\02\00\00r\02\00\00\01\00\00\00+\ff\ff\ffu\02\00\00u\02\00\00\01\00\00\00*\ff\ff\ff}\02\00\00}\02\00\00\01\00\00\00\e7)\00\00\80\02\00\00\80\02\00\00\01\00\00\00&\ff\ff\ff\82\02\00\00\82\02\00\00\01\00\00\00C\a5\00\00\83\02\00\00\83\02\00\00\01\00\00\00&\ff\ff\ff\87\02\00\00\87\02\00\00\01\00\00\00*\a5\00\00\88\02\00\00\88\02\00\00\01\00\00\00&\ff\ff\ff\89\02\00\00\89\02\00\00\01\00\00\00\bb\ff\ff\ff\8a\02\00\00\8b\02\00\00\01\00\00\00\'\ff\ff\ff\8c\02\00\00\8c\02\00\00\01\00\00\00\b9\ff\ff\ff\92\02\00\00\92\02\00\00\01\00\00\00%\ff\ff\ff\9d\02\00\00\9d\02\00\00\01\00\00\00\15\a5\00\00\9e\02\00\00\9e\02\00\00\01\00\00\00\12\a5\00\00E\03\00\00E\03\00\00\01\00\00\00T\00\00\00q\03\00\00s\03\00\00\02\00\00\00\ff\ff\ff\ffw\03\00\00w\03\00\00\01\00\00\00\ff\ff\ff\ff{\03\00\00}\03\00\00\01\00\00\00\82\00\00\00\ac\03\00\00\ac\03\00\00\01\00\00\00\da\ff\ff\ff\ad\03\00\00\af\03\00\00\01\00\00\00\db\ff\ff\ff\b1\03\00\00\c1\03\00\00\01\00\00\00\e0\ff\ff\ff\c2\03\00\00\c2\03\00\00\01\00\00\00\e1\ff\ff\ff\c3\03\00\00\cb\03\00\00\01\00\00\00\e0\ff\ff\ff\cc\03\00\00\cc\03\00\00\01\00\00\00\c0\ff\ff\ff\cd\03\00\00\ce\03\00\00\01\00\00\00\c1\ff\ff\ff\d0\03\00\00\d0\03\00\00\01\00\00\00\c2\ff\ff\ff\d1\03\00\00\d1\03\00\00\01\00\00\00\c7\ff\ff\ff\d5\03\00\00\d5\03\00\00\01\00\00\00\d1\ff\ff\ff\d6\03\00\00\d6\03\00\00\01\00\00\00\ca\ff\ff\ff\d7\03\00\00\d7\03\00\00\01\00\00\00\f8\ff\ff\ff\d9\03\00\00\ef\03\00\00\02\00\00\00\ff\ff\ff\ff\f0\03\00\00\f0\03\00\00\01\00\00\00\aa\ff\ff\ff\f1\03\00\00\f1\03\00\00\01\00\00\00\b0\ff\ff\ff\f2\03\00\00\f2\03\00\00\01\00\00\00\07\00\00\00\f3\03\00\00\f3\03\00\00\01\00\00\00\8c\ff\ff\ff\f5\03\00\00\f5\03\00\00\01\00\00\00\a0\ff\ff\ff\f8\03\00\00\f8\03\00\00\01\00\00\00\ff\ff\ff\ff\fb\03\00\00\fb\03\00\00\01\00\00\00\ff\ff\ff\ff0\04\00\00O\04\00\00\01\00\00\00\e0\ff\ff\ffP\04\00\00_\04\00\00\01\00\00\00\b0\ff\ff\ffa\04\00\00\81\04\00\00\02\00\00\00\ff\ff\ff\ff\8b\04\00\00\bf\04\00\00\02\00\00\00\ff\ff\ff\ff\c2\04\00\00\ce\04\00\00\02\00\00\00\ff\ff\ff\ff\cf\04\00\00\cf\04\00\00\01\00\00\00\f1\ff\ff\ff\d1\04\00\00/\05\00\00\02\00\00\00\ff\ff\ff\ffa\05\00\00\86\05\00\00\01\00\00\00\d0\ff\ff\ff\d0\10\00\00\fa\10\00\00\01\00\00\00\c0\0b\00\00\fd\10\00\00\ff\10\00\00\01\00\00\00\c0\0b\00\00\f8\13\00\00\fd\13\00\00\01\00\00\00\f8\ff\ff\ff\80\1c\00\00\80\1c\00\00\01\00\00\00\92\e7\ff\ff\81\1c\00\00\81\1c\00\00\01\00\00\00\93\e7\ff\ff\82\1c\00\00\82\1c\00\00\01\00\00\00\9c\e7\ff\ff\83\1c\00\00\84\1c\00\00\01\00\00\00\9e\e7\ff\ff\85\1c\00\00\85\1c\00\00\01\00\00\00\9d\e7\ff\ff\86\1c\00\00\86\1c\00\00\01\00\00\00\a4\e7\ff\ff\87\1c\00\00\87\1c\00\00\01\00\00\00\db\e7\ff\ff\88\1c\00\00\88\1c\00\00\01\00\00\00\c2\89\00\00\8a\1c\00\00\8a\1c\00\00\01\00\00\00\ff\ff\ff\ffy\1d\00\00y\1d\00\00\01\00\00\00\04\8a\00\00}\1d\00\00}\1d\00\00\01\00\00\00\e6\0e\00\00\8e\1d\00\00\8e\1d\00\00\01\00\00\008\8a\00\00\01\1e\00\00\95\1e\00\00\02\00\00\00\ff\ff\ff\ff\9b\1e\00\00\9b\1e\00\00\01\00\00\00\c5\ff\ff\ff\a1\1e\00\00\ff\1e\00\00\02\00\00\00\ff\ff\ff\ff\00\1f\00\00\07\1f\00\00\01\00\00\00\08\00\00\00\10\1f\00\00\15\1f\00\00\01\00\00\00\08\00\00\00 \1f\00\00\'\1f\00\00\01\00\00\00\08\00\00\000\1f\00\007\1f\00\00\01\00\00\00\08\00\00\00@\1f\00\00E\1f\00\00\01\00\00\00\08\00\00\00Q\1f\00\00W\1f\00\00\02\00\00\00\08\00\00\00`\1f\00\00g\1f\00\00\01\00\00\00\08\00\00\00p\1f\00\00q\1f\00\00\01\00\00\00J\00\00\00r\1f\00\00u\1f\00\00\01\00\00\00V\00\00\00v\1f\00\00w\1f\00\00\01\00\00\00d\00\00\00x\1f\00\00y\1f\00\00\01\00\00\00\80\00\00\00z\1f\00\00{\1f\00\00\01\00\00\00p\00\00\00|\1f\00\00}\1f\00\00\01\00\00\00~\00\00\00\b0\1f\00\00\b1\1f\00\00\01\00\00\00\08\00\00\00\be\1f\00\00\be\1f\00\00\01\00\00\00\db\e3\ff\ff\d0\1f\00\00\d1\1f\00\00\01\00\00\00\08\00\00\00\e0\1f\00\00\e1\1f\00\00\01\00\00\00\08\00\00\00\e5\1f\00\00\e5\1f\00\00\01\00\00\00\07\00\00\00N!\00\00N!\00\00\01\00\00\00\e4\ff\ff\ffp!\00\00\7f!\00\00\01\00\00\00\f0\ff\ff\ff\84!\00\00\84!\00\00\01\00\00\00\ff\ff\ff\ff\d0$\00\00\e9$\00\00\01\00\00\00\e6\ff\ff\ff0,\00\00_,\00\00\01\00\00\00\d0\ff\ff\ffa,\00\00a,\00\00\01\00\00\00\ff\ff\ff\ffe,\00\00e,\00\00\01\00\00\00\d5\d5\ff\fff,\00\00f,\00\00\01\00\00\00\d8\d5\ff\ffh,\00\00l,\00\00\02\00\00\00\ff\ff\ff\ffs,\00\00s,\00\00\01\00\00\00\ff\ff\ff\ffv,\00\00v,\00\00\01\00\00\00\ff\ff\ff\ff\81,\00\00\e3,\00\00\02\00\00\00\ff\ff\ff\ff\ec,\00\00\ee,\00\00\02\00\00\00\ff\ff\ff\ff\f3,\00\00\f3,\00\00\01\00\00\00\ff\ff\ff\ff\00-\00\00%-\00\00\01\00\00\00\a0\e3\ff\ff\'-\00\00\'-\00\00\01\00\00\00\a0\e3\ff\ff--\00\00--\00\00\01\00\00\00\a0\e3\ff\ffA\a6\00\00m\a6\00\00\02\00\00\00\ff\ff\ff\ff\81\a6\00\00\9b\a6\00\00\02\00\00\00\ff\ff\ff\ff#\a7\00\00/\a7\00\00\02\00\00\00\ff\ff\ff\ff3\a7\00\00o\a7\00\00\02\00\00\00\ff\ff\ff\ffz\a7\00\00|\a7\00\00\02\00\00\00\ff\ff\ff\ff\7f\a7\00\00\87\a7\00\00\02\00\00\00\ff\ff\ff\ff\8c\a7\00\00\8c\a7\00\00\01\00\00\00\ff\ff\ff\ff\91\a7\00\00\93\a7\00\00\02\00\00\00\ff\ff\ff\ff\94\a7\00\00\94\a7\00\00\01\00\00\000\00\00\00\97\a7\00\00\a9\a7\00\00\02\00\00\00\ff\ff\ff\ff\b5\a7\00\00\c3\a7\00\00\02\00\00\00\ff\ff\ff\ff\c8\a7\00\00\ca\a7\00\00\02\00\00\00\ff\ff\ff\ff\cd\a7\00\00\cd\a7\00\00\01\00\00\00\ff\ff\ff\ff\d1\a7\00\00\d1\a7\00\00\01\00\00\00\ff\ff\ff\ff\d7\a7\00\00\db\a7\00\00\02\00\00\00\ff\ff\ff\ff\f6\a7\00\00\f6\a7\00\00\01\00\00\00\ff\ff\ff\ffS\ab\00\00S\ab\00\00\01\00\00\00`\fc\ff\ffp\ab\00\00\bf\ab\00\00\01\00\00\000h\ff\ffA\ff\00\00Z\ff\00\00\01\00\00\00\e0\ff\ff\ff(\04\01\00O\04\01\00\01\00\00\00\d8\ff\ff\ff\d8\04\01\00\fb\04\01\00\01\00\00\00\d8\ff\ff\ff\97\05\01\00\a1\05\01\00\01\00\00\00\d9\ff\ff\ff\a3\05\01\00\b1\05\01\00\01\00\00\00\d9\ff\ff\ff\b3\05\01\00\b9\05\01\00\01\00\00\00\d9\ff\ff\ff\bb\05\01\00\bc\05\01\00\01\00\00\00\d9\ff\ff\ff\c0\0c\01\00\f2\0c\01\00\01\00\00\00\c0\ff\ff\ffp\0d\01\00\85\0d\01\00\01\00\00\00\e0\ff\ff\ff\c0\18\01\00\df\18\01\00\01\00\00\00\e0\ff\ff\ff`n\01\00\7fn\01\00\01\00\00\00\e0\ff\ff\ff\"\e9\01\00C\e9\01\00\01\00\00\00\de\ff\ff\ff\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 186776) "\98\c9\02\00\1c\03\00\00")
+ (data (i32.const 186784) "\a0\0b\00\00\00\00\00\00A\00\00\00Z\00\00\00\01\00\00\00 \00\00\00\c0\00\00\00\d6\00\00\00\01\00\00\00 \00\00\00\d8\00\00\00\de\00\00\00\01\00\00\00 \00\00\00\00\01\00\00.\01\00\00\02\00\00\00\01\00\00\002\01\00\006\01\00\00\02\00\00\00\01\00\00\009\01\00\00G\01\00\00\02\00\00\00\01\00\00\00J\01\00\00v\01\00\00\02\00\00\00\01\00\00\00x\01\00\00x\01\00\00\01\00\00\00\87\ff\ff\ffy\01\00\00}\01\00\00\02\00\00\00\01\00\00\00\81\01\00\00\81\01\00\00\01\00\00\00\d2\00\00\00\82\01\00\00\84\01\00\00\02\00\00\00\01\00\00\00\86\01\00\00\86\01\00\00\01\00\00\00\ce\00\00\00\87\01\00\00\87\01\00\00\01\00\00\00\01\00\00\00\89\01\00\00\8a\01\00\00\01\00\00\00\cd\00\00\00\8b\01\00\00\8b\01\00\00\01\00\00\00\01\00\00\00\8e\01\00\00\8e\01\00\00\01\00\00\00O\00\00\00\8f\01\00\00\8f\01\00\00\01\00\00\00\ca\00\00\00\90\01\00\00\90\01\00\00\01\00\00\00\cb\00\00\00\91\01\00\00\91\01\00\00\01\00\00\00\01\00\00\00\93\01\00\00\93\01\00\00\01\00\00\00\cd\00\00\00\94\01\00\00\94\01\00\00\01\00\00\00\cf\00\00\00\96\01\00\00\96\01\00\00\01\00\00\00\d3\00\00\00\97\01\00\00\97\01\00\00\01\00\00\00\d1\00\00\00\98\01\00\00\98\01\00\00\01\00\00\00\01\00\00\00\9c\01\00\00\9c\01\00\00\01\00\00\00\d3\00\00\00\9d\01\00\00\9d\01\00\00\01\00\00\00\d5\00\00\00\9f\01\00\00\9f\01\00\00\01\00\00\00\d6\00\00\00\a0\01\00\00\a4\01\00\00\02\00\00\00\01\00\00\00\a6\01\00\00\a6\01\00\00\01\00\00\00\da\00\00\00\a7\01\00\00\a7\01\00\00\01\00\00\00\01\00\00\00\a9\01\00\00\a9\01\00\00\01\00\00\00\da\00\00\00\ac\01\00\00\ac\01\00\00\01\00\00\00\01\00\00\00\ae\01\00\00\ae\01\00\00\01\00\00\00\da\00\00\00\af\01\00\00\af\01\00\00\01\00\00\00\01\00\00\00\b1\01\00\00\b2\01\00\00\01\00\00\00\d9\00\00\00\b3\01\00\00\b5\01\00\00\02\00\00\00\01\00\00\00\b7\01\00\00\b7\01\00\00\01\00\00\00\db\00\00\00\b8\01\00\00\b8\01\00\00\01\00\00\00\01\00\00\00\bc\01\00\00\bc\01\00\00\01\00\00\00\01\00\00\00\c4\01\00\00\c4\01\00\00\01\00\00\00\02\00\00\00\c5\01\00\00\c5\01\00\00\01\00\00\00\01\00\00\00\c7\01\00\00\c7\01\00\00\01\00\00\00\02\00\00\00\c8\01\00\00\c8\01\00\00\01\00\00\00\01\00\00\00\ca\01\00\00\ca\01\00\00\01\00\00\00\02\00\00\00\cb\01\00\00\db\01\00\00\02\00\00\00\01\00\00\00\de\01\00\00\ee\01\00\00\02\00\00\00\01\00\00\00\f1\01\00\00\f1\01\00\00\01\00\00\00\02\00\00\00\f2\01\00\00\f4\01\00\00\02\00\00\00\01\00\00\00\f6\01\00\00\f6\01\00\00\01\00\00\00\9f\ff\ff\ff\f7\01\00\00\f7\01\00\00\01\00\00\00\c8\ff\ff\ff\f8\01\00\00\1e\02\00\00\02\00\00\00\01\00\00\00 \02\00\00 \02\00\00\01\00\00\00~\ff\ff\ff\"\02\00\002\02\00\00\02\00\00\00\01\00\00\00:\02\00\00:\02\00\00\01\00\00\00+*\00\00;\02\00\00;\02\00\00\01\00\00\00\01\00\00\00=\02\00\00=\02\00\00\01\00\00\00]\ff\ff\ff>\02\00\00>\02\00\00\01\00\00\00(*\00\00A\02\00\00A\02\00\00\01\00\00\00\01\00\00\00C\02\00\00C\02\00\00\01\00\00\00=\ff\ff\ffD\02\00\00D\02\00\00\01\00\00\00E\00\00\00E\02\00\00E\02\00\00\01\00\00\00G\00\00\00F\02\00\00N\02\00\00\02\00\00\00\01\00\00\00p\03\00\00r\03\00\00\02\00\00\00\01\00\00\00v\03\00\00v\03\00\00\01\00\00\00\01\00\00\00\7f\03\00\00\7f\03\00\00\01\00\00\00t\00\00\00\86\03\00\00\86\03\00\00\01\00\00\00&\00\00\00\88\03\00\00\8a\03\00\00\01\00\00\00%\00\00\00\8c\03\00\00\8c\03\00\00\01\00\00\00@\00\00\00\8e\03\00\00\8f\03\00\00\01\00\00\00?\00\00\00\91\03\00\00\a1\03\00\00\01\00\00\00 \00\00\00\a3\03\00\00\ab\03\00\00\01\00\00\00 \00\00\00\cf\03\00\00\cf\03\00\00\01\00\00\00\08\00\00\00\d8\03\00\00\ee\03\00\00\02\00\00\00\01\00\00\00\f4\03\00\00\f4\03\00\00\01\00\00\00\c4\ff\ff\ff\f7\03\00\00\f7\03\00\00\01\00\00\00\01\00\00\00\f9\03\00\00\f9\03\00\00\01\00\00\00\f9\ff\ff\ff\fa\03\00\00\fa\03\00\00\01\00\00\00\01\00\00\00\fd\03\00\00\ff\03\00\00\01\00\00\00~\ff\ff\ff\00\04\00\00\0f\04\00\00\01\00\00\00P\00\00\00\10\04\00\00/\04\00\00\01\00\00\00 \00\00\00`\04\00\00\80\04\00\00\02\00\00\00\01\00\00\00\8a\04\00\00\be\04\00\00\02\00\00\00\01\00\00\00\c0\04\00\00\c0\04\00\00\01\00\00\00\0f\00\00\00\c1\04\00\00\cd\04\00\00\02\00\00\00\01\00\00\00\d0\04\00\00.\05\00\00\02\00\00\00\01\00\00\001\05\00\00V\05\00\00\01\00\00\000\00\00\00\a0\10\00\00\c5\10\00\00\01\00\00\00`\1c\00\00\c7\10\00\00\c7\10\00\00\01\00\00\00`\1c\00\00\cd\10\00\00\cd\10\00\00\01\00\00\00`\1c\00\00\a0\13\00\00\ef\13\00\00\01\00\00\00\d0\97\00\00\f0\13\00\00\f5\13\00\00\01\00\00\00\08\00\00\00\89\1c\00\00\89\1c\00\00\01\00\00\00\01\00\00\00\90\1c\00\00\ba\1c\00\00\01\00\00\00@\f4\ff\ff\bd\1c\00\00\bf\1c\00\00\01\00\00\00@\f4\ff\ff\00\1e\00\00\94\1e\00\00\02\00\00\00\01\00\00\00\9e\1e\00\00\9e\1e\00\00\01\00\00\00A\e2\ff\ff\a0\1e\00\00\fe\1e\00\00\02\00\00\00\01\00\00\00\08\1f\00\00\0f\1f\00\00\01\00\00\00\f8\ff\ff\ff\18\1f\00\00\1d\1f\00\00\01\00\00\00\f8\ff\ff\ff(\1f\00\00/\1f\00\00\01\00\00\00\f8\ff\ff\ff8\1f\00\00?\1f\00\00\01\00\00\00\f8\ff\ff\ffH\1f\00\00M\1f\00\00\01\00\00\00\f8\ff\ff\ffY\1f\00\00_\1f\00\00\02\00\00\00\f8\ff\ff\ffh\1f\00\00o\1f\00\00\01\00\00\00\f8\ff\ff\ff\88\1f\00\00\8f\1f\00\00\01\00\00\00\f8\ff\ff\ff\98\1f\00\00\9f\1f\00\00\01\00\00\00\f8\ff\ff\ff\a8\1f\00\00\af\1f\00\00\01\00\00\00\f8\ff\ff\ff\b8\1f\00\00\b9\1f\00\00\01\00\00\00\f8\ff\ff\ff\ba\1f\00\00\bb\1f\00\00\01\00\00\00\b6\ff\ff\ff\bc\1f\00\00\bc\1f\00\00\01\00\00\00\f7\ff\ff\ff\c8\1f\00\00\cb\1f\00\00\01\00\00\00\aa\ff\ff\ff\cc\1f\00\00\cc\1f\00\00\01\00\00\00\f7\ff\ff\ff\d8\1f\00\00\d9\1f\00\00\01\00\00\00\f8\ff\ff\ff\da\1f\00\00\db\1f\00\00\01\00\00\00\9c\ff\ff\ff\e8\1f\00\00\e9\1f\00\00\01\00\00\00\f8\ff\ff\ff\ea\1f\00\00\eb\1f\00\00\01\00\00\00\90\ff\ff\ff\ec\1f\00\00\ec\1f\00\00\01\00\00\00\f9\ff\ff\ff\f8\1f\00\00\f9\1f\00\00\01\00\00\00\80\ff\ff\ff\fa\1f\00\00\fb\1f\00\00\01\00\00\00\82\ff\ff\ff\fc\1f\00\00\fc\1f\00\00\01\00\00\00\f7\ff\ff\ff&!\00\00&!\00\00\01\00\00\00\a3\e2\ff\ff*!\00\00*!\00\00\01\00\00\00A\df\ff\ff+!\00\00+!\00\00\01\00\00\00\ba\df\ff\ff2!\00\002!\00\00\01\00\00\00\1c\00\00\00`!\00\00o!\00\00\01\00\00\00\10\00\00\00\83!\00\00\83!\00\00\01\00\00\00\01\00\00\00\b6$\00\00\cf$\00\00\01\00\00\00\1a\00\00\00\00,\00\00/,\00\00\01\00\00\000\00\00\00`,\00\00`,\00\00\01\00\00\00\01\00\00\00b,\00\00b,\00\00\01\00\00\00\t\d6\ff\ffc,\00\00c,\00\00\01\00\00\00\1a\f1\ff\ffd,\00\00d,\00\00\01\00\00\00\19\d6\ff\ffg,\00\00k,\00\00\02\00\00\00\01\00\00\00m,\00\00m,\00\00\01\00\00\00\e4\d5\ff\ffn,\00\00n,\00\00\01\00\00\00\03\d6\ff\ffo,\00\00o,\00\00\01\00\00\00\e1\d5\ff\ffp,\00\00p,\00\00\01\00\00\00\e2\d5\ff\ffr,\00\00r,\00\00\01\00\00\00\01\00\00\00u,\00\00u,\00\00\01\00\00\00\01\00\00\00~,\00\00\7f,\00\00\01\00\00\00\c1\d5\ff\ff\80,\00\00\e2,\00\00\02\00\00\00\01\00\00\00\eb,\00\00\ed,\00\00\02\00\00\00\01\00\00\00\f2,\00\00\f2,\00\00\01\00\00\00\01\00\00\00@\a6\00\00l\a6\00\00\02\00\00\00\01\00\00\00\80\a6\00\00\9a\a6\00\00\02\00\00\00\01\00\00\00\"\a7\00\00.\a7\00\00\02\00\00\00\01\00\00\002\a7\00\00n\a7\00\00\02\00\00\00\01\00\00\00y\a7\00\00{\a7\00\00\02\00\00\00\01\00\00\00}\a7\00\00}\a7\00\00\01\00\00\00\fcu\ff\ff~\a7\00\00\86\a7\00\00\02\00\00\00\01\00\00\00\8b\a7\00\00\8b\a7\00\00\01\00\00\00\01\00\00\00\8d\a7\00\00\8d\a7\00\00\01\00\00\00\d8Z\ff\ff\90\a7\00\00\92\a7\00\00\02\00\00\00\01\00\00\00\96\a7\00\00\a8\a7\00\00\02\00\00\00\01\00\00\00\aa\a7\00\00\aa\a7\00\00\01\00\00\00\bcZ\ff\ff\ab\a7\00\00\ab\a7\00\00\01\00\00\00\b1Z\ff\ff\ac\a7\00\00\ac\a7\00\00\01\00\00\00\b5Z\ff\ff\ad\a7\00\00\ad\a7\00\00\01\00\00\00\bfZ\ff\ff\ae\a7\00\00\ae\a7\00\00\01\00\00\00\bcZ\ff\ff\b0\a7\00\00\b0\a7\00\00\01\00\00\00\eeZ\ff\ff\b1\a7\00\00\b1\a7\00\00\01\00\00\00\d6Z\ff\ff\b2\a7\00\00\b2\a7\00\00\01\00\00\00\ebZ\ff\ff\b3\a7\00\00\b3\a7\00\00\01\00\00\00\a0\03\00\00\b4\a7\00\00\c2\a7\00\00\02\00\00\00\01\00\00\00\c4\a7\00\00\c4\a7\00\00\01\00\00\00\d0\ff\ff\ff\c5\a7\00\00\c5\a7\00\00\01\00\00\00\bdZ\ff\ff\c6\a7\00\00\c6\a7\00\00\01\00\00\00\c8u\ff\ff\c7\a7\00\00\c9\a7\00\00\02\00\00\00\01\00\00\00\cb\a7\00\00\cb\a7\00\00\01\00\00\00\99Z\ff\ff\cc\a7\00\00\cc\a7\00\00\01\00\00\00\01\00\00\00\d0\a7\00\00\d0\a7\00\00\01\00\00\00\01\00\00\00\d6\a7\00\00\da\a7\00\00\02\00\00\00\01\00\00\00\dc\a7\00\00\dc\a7\00\00\01\00\00\00\bfY\ff\ff\f5\a7\00\00\f5\a7\00\00\01\00\00\00\01\00\00\00!\ff\00\00:\ff\00\00\01\00\00\00 \00\00\00\00\04\01\00\'\04\01\00\01\00\00\00(\00\00\00\b0\04\01\00\d3\04\01\00\01\00\00\00(\00\00\00p\05\01\00z\05\01\00\01\00\00\00\'\00\00\00|\05\01\00\8a\05\01\00\01\00\00\00\'\00\00\00\8c\05\01\00\92\05\01\00\01\00\00\00\'\00\00\00\94\05\01\00\95\05\01\00\01\00\00\00\'\00\00\00\80\0c\01\00\b2\0c\01\00\01\00\00\00@\00\00\00P\0d\01\00e\0d\01\00\01\00\00\00 \00\00\00\a0\18\01\00\bf\18\01\00\01\00\00\00 \00\00\00@n\01\00_n\01\00\01\00\00\00 \00\00\00\00\e9\01\00!\e9\01\00\01\00\00\00\"\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 190880) "\a0\d9\02\00\e8\02\00\00")
+ (data (i32.const 190888) "`\06\00\00\00\00\00\00\df\00\00\00S\00\00\00S\00\00\00\00\00\00\00I\01\00\00\bc\02\00\00N\00\00\00\00\00\00\00\f0\01\00\00J\00\00\00\0c\03\00\00\00\00\00\00\90\03\00\00\99\03\00\00\08\03\00\00\01\03\00\00\b0\03\00\00\a5\03\00\00\08\03\00\00\01\03\00\00\87\05\00\005\05\00\00R\05\00\00\00\00\00\00\96\1e\00\00H\00\00\001\03\00\00\00\00\00\00\97\1e\00\00T\00\00\00\08\03\00\00\00\00\00\00\98\1e\00\00W\00\00\00\n\03\00\00\00\00\00\00\99\1e\00\00Y\00\00\00\n\03\00\00\00\00\00\00\9a\1e\00\00A\00\00\00\be\02\00\00\00\00\00\00P\1f\00\00\a5\03\00\00\13\03\00\00\00\00\00\00R\1f\00\00\a5\03\00\00\13\03\00\00\00\03\00\00T\1f\00\00\a5\03\00\00\13\03\00\00\01\03\00\00V\1f\00\00\a5\03\00\00\13\03\00\00B\03\00\00\80\1f\00\00\08\1f\00\00\99\03\00\00\00\00\00\00\81\1f\00\00\t\1f\00\00\99\03\00\00\00\00\00\00\82\1f\00\00\n\1f\00\00\99\03\00\00\00\00\00\00\83\1f\00\00\0b\1f\00\00\99\03\00\00\00\00\00\00\84\1f\00\00\0c\1f\00\00\99\03\00\00\00\00\00\00\85\1f\00\00\0d\1f\00\00\99\03\00\00\00\00\00\00\86\1f\00\00\0e\1f\00\00\99\03\00\00\00\00\00\00\87\1f\00\00\0f\1f\00\00\99\03\00\00\00\00\00\00\88\1f\00\00\08\1f\00\00\99\03\00\00\00\00\00\00\89\1f\00\00\t\1f\00\00\99\03\00\00\00\00\00\00\8a\1f\00\00\n\1f\00\00\99\03\00\00\00\00\00\00\8b\1f\00\00\0b\1f\00\00\99\03\00\00\00\00\00\00\8c\1f\00\00\0c\1f\00\00\99\03\00\00\00\00\00\00\8d\1f\00\00\0d\1f\00\00\99\03\00\00\00\00\00\00\8e\1f\00\00\0e\1f\00\00\99\03\00\00\00\00\00\00\8f\1f\00\00\0f\1f\00\00\99\03\00\00\00\00\00\00\90\1f\00\00(\1f\00\00\99\03\00\00\00\00\00\00\91\1f\00\00)\1f\00\00\99\03\00\00\00\00\00\00\92\1f\00\00*\1f\00\00\99\03\00\00\00\00\00\00\93\1f\00\00+\1f\00\00\99\03\00\00\00\00\00\00\94\1f\00\00,\1f\00\00\99\03\00\00\00\00\00\00\95\1f\00\00-\1f\00\00\99\03\00\00\00\00\00\00\96\1f\00\00.\1f\00\00\99\03\00\00\00\00\00\00\97\1f\00\00/\1f\00\00\99\03\00\00\00\00\00\00\98\1f\00\00(\1f\00\00\99\03\00\00\00\00\00\00\99\1f\00\00)\1f\00\00\99\03\00\00\00\00\00\00\9a\1f\00\00*\1f\00\00\99\03\00\00\00\00\00\00\9b\1f\00\00+\1f\00\00\99\03\00\00\00\00\00\00\9c\1f\00\00,\1f\00\00\99\03\00\00\00\00\00\00\9d\1f\00\00-\1f\00\00\99\03\00\00\00\00\00\00\9e\1f\00\00.\1f\00\00\99\03\00\00\00\00\00\00\9f\1f\00\00/\1f\00\00\99\03\00\00\00\00\00\00\a0\1f\00\00h\1f\00\00\99\03\00\00\00\00\00\00\a1\1f\00\00i\1f\00\00\99\03\00\00\00\00\00\00\a2\1f\00\00j\1f\00\00\99\03\00\00\00\00\00\00\a3\1f\00\00k\1f\00\00\99\03\00\00\00\00\00\00\a4\1f\00\00l\1f\00\00\99\03\00\00\00\00\00\00\a5\1f\00\00m\1f\00\00\99\03\00\00\00\00\00\00\a6\1f\00\00n\1f\00\00\99\03\00\00\00\00\00\00\a7\1f\00\00o\1f\00\00\99\03\00\00\00\00\00\00\a8\1f\00\00h\1f\00\00\99\03\00\00\00\00\00\00\a9\1f\00\00i\1f\00\00\99\03\00\00\00\00\00\00\aa\1f\00\00j\1f\00\00\99\03\00\00\00\00\00\00\ab\1f\00\00k\1f\00\00\99\03\00\00\00\00\00\00\ac\1f\00\00l\1f\00\00\99\03\00\00\00\00\00\00\ad\1f\00\00m\1f\00\00\99\03\00\00\00\00\00\00\ae\1f\00\00n\1f\00\00\99\03\00\00\00\00\00\00\af\1f\00\00o\1f\00\00\99\03\00\00\00\00\00\00\b2\1f\00\00\ba\1f\00\00\99\03\00\00\00\00\00\00\b3\1f\00\00\91\03\00\00\99\03\00\00\00\00\00\00\b4\1f\00\00\86\03\00\00\99\03\00\00\00\00\00\00\b6\1f\00\00\91\03\00\00B\03\00\00\00\00\00\00\b7\1f\00\00\91\03\00\00B\03\00\00\99\03\00\00\bc\1f\00\00\91\03\00\00\99\03\00\00\00\00\00\00\c2\1f\00\00\ca\1f\00\00\99\03\00\00\00\00\00\00\c3\1f\00\00\97\03\00\00\99\03\00\00\00\00\00\00\c4\1f\00\00\89\03\00\00\99\03\00\00\00\00\00\00\c6\1f\00\00\97\03\00\00B\03\00\00\00\00\00\00\c7\1f\00\00\97\03\00\00B\03\00\00\99\03\00\00\cc\1f\00\00\97\03\00\00\99\03\00\00\00\00\00\00\d2\1f\00\00\99\03\00\00\08\03\00\00\00\03\00\00\d3\1f\00\00\99\03\00\00\08\03\00\00\01\03\00\00\d6\1f\00\00\99\03\00\00B\03\00\00\00\00\00\00\d7\1f\00\00\99\03\00\00\08\03\00\00B\03\00\00\e2\1f\00\00\a5\03\00\00\08\03\00\00\00\03\00\00\e3\1f\00\00\a5\03\00\00\08\03\00\00\01\03\00\00\e4\1f\00\00\a1\03\00\00\13\03\00\00\00\00\00\00\e6\1f\00\00\a5\03\00\00B\03\00\00\00\00\00\00\e7\1f\00\00\a5\03\00\00\08\03\00\00B\03\00\00\f2\1f\00\00\fa\1f\00\00\99\03\00\00\00\00\00\00\f3\1f\00\00\a9\03\00\00\99\03\00\00\00\00\00\00\f4\1f\00\00\8f\03\00\00\99\03\00\00\00\00\00\00\f6\1f\00\00\a9\03\00\00B\03\00\00\00\00\00\00\f7\1f\00\00\a9\03\00\00B\03\00\00\99\03\00\00\fc\1f\00\00\a9\03\00\00\99\03\00\00\00\00\00\00\00\fb\00\00F\00\00\00F\00\00\00\00\00\00\00\01\fb\00\00F\00\00\00I\00\00\00\00\00\00\00\02\fb\00\00F\00\00\00L\00\00\00\00\00\00\00\03\fb\00\00F\00\00\00F\00\00\00I\00\00\00\04\fb\00\00F\00\00\00F\00\00\00L\00\00\00\05\fb\00\00S\00\00\00T\00\00\00\00\00\00\00\06\fb\00\00S\00\00\00T\00\00\00\00\00\00\00\13\fb\00\00D\05\00\00F\05\00\00\00\00\00\00\14\fb\00\00D\05\00\005\05\00\00\00\00\00\00\15\fb\00\00D\05\00\00;\05\00\00\00\00\00\00\16\fb\00\00N\05\00\00F\05\00\00\00\00\00\00\17\fb\00\00D\05\00\00=\05\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 192936) "\a8\e9\02\00\98\01\00\00")
+ (data (i32.const 192944) "\10\00\00\00\00\00\00\000\01\00\00i\00\00\00\07\03\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 192976) "\b0\f1\02\00\04\00\00\00")
+ (data (i32.const 192984) "\f8\04\00\00\00\00\00\00A\00\00\00Z\00\00\00a\00\00\00z\00\00\00\aa\00\00\00\aa\00\00\00\b5\00\00\00\b5\00\00\00\ba\00\00\00\ba\00\00\00\c0\00\00\00\d6\00\00\00\d8\00\00\00\f6\00\00\00\f8\00\00\00\ba\01\00\00\bc\01\00\00\bf\01\00\00\c4\01\00\00\93\02\00\00\95\02\00\00\b8\02\00\00\c0\02\00\00\c1\02\00\00\e0\02\00\00\e4\02\00\00E\03\00\00E\03\00\00p\03\00\00s\03\00\00v\03\00\00w\03\00\00z\03\00\00}\03\00\00\7f\03\00\00\7f\03\00\00\86\03\00\00\86\03\00\00\88\03\00\00\8a\03\00\00\8c\03\00\00\8c\03\00\00\8e\03\00\00\a1\03\00\00\a3\03\00\00\f5\03\00\00\f7\03\00\00\81\04\00\00\8a\04\00\00/\05\00\001\05\00\00V\05\00\00`\05\00\00\88\05\00\00\a0\10\00\00\c5\10\00\00\c7\10\00\00\c7\10\00\00\cd\10\00\00\cd\10\00\00\d0\10\00\00\fa\10\00\00\fc\10\00\00\ff\10\00\00\a0\13\00\00\f5\13\00\00\f8\13\00\00\fd\13\00\00\80\1c\00\00\8a\1c\00\00\90\1c\00\00\ba\1c\00\00\bd\1c\00\00\bf\1c\00\00\00\1d\00\00\bf\1d\00\00\00\1e\00\00\15\1f\00\00\18\1f\00\00\1d\1f\00\00 \1f\00\00E\1f\00\00H\1f\00\00M\1f\00\00P\1f\00\00W\1f\00\00Y\1f\00\00Y\1f\00\00[\1f\00\00[\1f\00\00]\1f\00\00]\1f\00\00_\1f\00\00}\1f\00\00\80\1f\00\00\b4\1f\00\00\b6\1f\00\00\bc\1f\00\00\be\1f\00\00\be\1f\00\00\c2\1f\00\00\c4\1f\00\00\c6\1f\00\00\cc\1f\00\00\d0\1f\00\00\d3\1f\00\00\d6\1f\00\00\db\1f\00\00\e0\1f\00\00\ec\1f\00\00\f2\1f\00\00\f4\1f\00\00\f6\1f\00\00\fc\1f\00\00q \00\00q \00\00\7f \00\00\7f \00\00\90 \00\00\9c \00\00\02!\00\00\02!\00\00\07!\00\00\07!\00\00\n!\00\00\13!\00\00\15!\00\00\15!\00\00\19!\00\00\1d!\00\00$!\00\00$!\00\00&!\00\00&!\00\00(!\00\00(!\00\00*!\00\00-!\00\00/!\00\004!\00\009!\00\009!\00\00<!\00\00?!\00\00E!\00\00I!\00\00N!\00\00N!\00\00`!\00\00\7f!\00\00\83!\00\00\84!\00\00\b6$\00\00\e9$\00\00\00,\00\00\e4,\00\00\eb,\00\00\ee,\00\00\f2,\00\00\f3,\00\00\00-\00\00%-\00\00\'-\00\00\'-\00\00--\00\00--\00\00@\a6\00\00m\a6\00\00\80\a6\00\00\9d\a6\00\00\"\a7\00\00\87\a7\00\00\8b\a7\00\00\8e\a7\00\00\90\a7\00\00\cd\a7\00\00\d0\a7\00\00\d1\a7\00\00\d3\a7\00\00\d3\a7\00\00\d5\a7\00\00\dc\a7\00\00\f2\a7\00\00\f6\a7\00\00\f8\a7\00\00\fa\a7\00\000\ab\00\00Z\ab\00\00\\\ab\00\00i\ab\00\00p\ab\00\00\bf\ab\00\00\00\fb\00\00\06\fb\00\00\13\fb\00\00\17\fb\00\00!\ff\00\00:\ff\00\00A\ff\00\00Z\ff\00\00\00\04\01\00O\04\01\00\b0\04\01\00\d3\04\01\00\d8\04\01\00\fb\04\01\00p\05\01\00z\05\01\00|\05\01\00\8a\05\01\00\8c\05\01\00\92\05\01\00\94\05\01\00\95\05\01\00\97\05\01\00\a1\05\01\00\a3\05\01\00\b1\05\01\00\b3\05\01\00\b9\05\01\00\bb\05\01\00\bc\05\01\00\80\07\01\00\80\07\01\00\83\07\01\00\85\07\01\00\87\07\01\00\b0\07\01\00\b2\07\01\00\ba\07\01\00\80\0c\01\00\b2\0c\01\00\c0\0c\01\00\f2\0c\01\00P\0d\01\00e\0d\01\00p\0d\01\00\85\0d\01\00\a0\18\01\00\df\18\01\00@n\01\00\7fn\01\00\00\d4\01\00T\d4\01\00V\d4\01\00\9c\d4\01\00\9e\d4\01\00\9f\d4\01\00\a2\d4\01\00\a2\d4\01\00\a5\d4\01\00\a6\d4\01\00\a9\d4\01\00\ac\d4\01\00\ae\d4\01\00\b9\d4\01\00\bb\d4\01\00\bb\d4\01\00\bd\d4\01\00\c3\d4\01\00\c5\d4\01\00\05\d5\01\00\07\d5\01\00\n\d5\01\00\0d\d5\01\00\14\d5\01\00\16\d5\01\00\1c\d5\01\00\1e\d5\01\009\d5\01\00;\d5\01\00>\d5\01\00@\d5\01\00D\d5\01\00F\d5\01\00F\d5\01\00J\d5\01\00P\d5\01\00R\d5\01\00\a5\d6\01\00\a8\d6\01\00\c0\d6\01\00\c2\d6\01\00\da\d6\01\00\dc\d6\01\00\fa\d6\01\00\fc\d6\01\00\14\d7\01\00\16\d7\01\004\d7\01\006\d7\01\00N\d7\01\00P\d7\01\00n\d7\01\00p\d7\01\00\88\d7\01\00\8a\d7\01\00\a8\d7\01\00\aa\d7\01\00\c2\d7\01\00\c4\d7\01\00\cb\d7\01\00\00\df\01\00\t\df\01\00\0b\df\01\00\1e\df\01\00%\df\01\00*\df\01\000\e0\01\00m\e0\01\00\00\e9\01\00C\e9\01\000\f1\01\00I\f1\01\00P\f1\01\00i\f1\01\00p\f1\01\00\89\f1\01\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 195032) "\d8\f1\02\00>\01\00\00")
+ (data (i32.const 195040) " \0e\00\00\00\00\00\00\'\00\00\00\'\00\00\00.\00\00\00.\00\00\00:\00\00\00:\00\00\00^\00\00\00^\00\00\00`\00\00\00`\00\00\00\a8\00\00\00\a8\00\00\00\ad\00\00\00\ad\00\00\00\af\00\00\00\af\00\00\00\b4\00\00\00\b4\00\00\00\b7\00\00\00\b8\00\00\00\b0\02\00\00o\03\00\00t\03\00\00u\03\00\00z\03\00\00z\03\00\00\84\03\00\00\85\03\00\00\87\03\00\00\87\03\00\00\83\04\00\00\89\04\00\00Y\05\00\00Y\05\00\00_\05\00\00_\05\00\00\91\05\00\00\bd\05\00\00\bf\05\00\00\bf\05\00\00\c1\05\00\00\c2\05\00\00\c4\05\00\00\c5\05\00\00\c7\05\00\00\c7\05\00\00\f4\05\00\00\f4\05\00\00\00\06\00\00\05\06\00\00\10\06\00\00\1a\06\00\00\1c\06\00\00\1c\06\00\00@\06\00\00@\06\00\00K\06\00\00_\06\00\00p\06\00\00p\06\00\00\d6\06\00\00\dd\06\00\00\df\06\00\00\e8\06\00\00\ea\06\00\00\ed\06\00\00\0f\07\00\00\0f\07\00\00\11\07\00\00\11\07\00\000\07\00\00J\07\00\00\a6\07\00\00\b0\07\00\00\eb\07\00\00\f5\07\00\00\fa\07\00\00\fa\07\00\00\fd\07\00\00\fd\07\00\00\16\08\00\00-\08\00\00Y\08\00\00[\08\00\00\88\08\00\00\88\08\00\00\90\08\00\00\91\08\00\00\97\08\00\00\9f\08\00\00\c9\08\00\00\02\t\00\00:\t\00\00:\t\00\00<\t\00\00<\t\00\00A\t\00\00H\t\00\00M\t\00\00M\t\00\00Q\t\00\00W\t\00\00b\t\00\00c\t\00\00q\t\00\00q\t\00\00\81\t\00\00\81\t\00\00\bc\t\00\00\bc\t\00\00\c1\t\00\00\c4\t\00\00\cd\t\00\00\cd\t\00\00\e2\t\00\00\e3\t\00\00\fe\t\00\00\fe\t\00\00\01\n\00\00\02\n\00\00<\n\00\00<\n\00\00A\n\00\00B\n\00\00G\n\00\00H\n\00\00K\n\00\00M\n\00\00Q\n\00\00Q\n\00\00p\n\00\00q\n\00\00u\n\00\00u\n\00\00\81\n\00\00\82\n\00\00\bc\n\00\00\bc\n\00\00\c1\n\00\00\c5\n\00\00\c7\n\00\00\c8\n\00\00\cd\n\00\00\cd\n\00\00\e2\n\00\00\e3\n\00\00\fa\n\00\00\ff\n\00\00\01\0b\00\00\01\0b\00\00<\0b\00\00<\0b\00\00?\0b\00\00?\0b\00\00A\0b\00\00D\0b\00\00M\0b\00\00M\0b\00\00U\0b\00\00V\0b\00\00b\0b\00\00c\0b\00\00\82\0b\00\00\82\0b\00\00\c0\0b\00\00\c0\0b\00\00\cd\0b\00\00\cd\0b\00\00\00\0c\00\00\00\0c\00\00\04\0c\00\00\04\0c\00\00<\0c\00\00<\0c\00\00>\0c\00\00@\0c\00\00F\0c\00\00H\0c\00\00J\0c\00\00M\0c\00\00U\0c\00\00V\0c\00\00b\0c\00\00c\0c\00\00\81\0c\00\00\81\0c\00\00\bc\0c\00\00\bc\0c\00\00\bf\0c\00\00\bf\0c\00\00\c6\0c\00\00\c6\0c\00\00\cc\0c\00\00\cd\0c\00\00\e2\0c\00\00\e3\0c\00\00\00\0d\00\00\01\0d\00\00;\0d\00\00<\0d\00\00A\0d\00\00D\0d\00\00M\0d\00\00M\0d\00\00b\0d\00\00c\0d\00\00\81\0d\00\00\81\0d\00\00\ca\0d\00\00\ca\0d\00\00\d2\0d\00\00\d4\0d\00\00\d6\0d\00\00\d6\0d\00\001\0e\00\001\0e\00\004\0e\00\00:\0e\00\00F\0e\00\00N\0e\00\00\b1\0e\00\00\b1\0e\00\00\b4\0e\00\00\bc\0e\00\00\c6\0e\00\00\c6\0e\00\00\c8\0e\00\00\ce\0e\00\00\18\0f\00\00\19\0f\00\005\0f\00\005\0f\00\007\0f\00\007\0f\00\009\0f\00\009\0f\00\00q\0f\00\00~\0f\00\00\80\0f\00\00\84\0f\00\00\86\0f\00\00\87\0f\00\00\8d\0f\00\00\97\0f\00\00\99\0f\00\00\bc\0f\00\00\c6\0f\00\00\c6\0f\00\00-\10\00\000\10\00\002\10\00\007\10\00\009\10\00\00:\10\00\00=\10\00\00>\10\00\00X\10\00\00Y\10\00\00^\10\00\00`\10\00\00q\10\00\00t\10\00\00\82\10\00\00\82\10\00\00\85\10\00\00\86\10\00\00\8d\10\00\00\8d\10\00\00\9d\10\00\00\9d\10\00\00\fc\10\00\00\fc\10\00\00]\13\00\00_\13\00\00\12\17\00\00\14\17\00\002\17\00\003\17\00\00R\17\00\00S\17\00\00r\17\00\00s\17\00\00\b4\17\00\00\b5\17\00\00\b7\17\00\00\bd\17\00\00\c6\17\00\00\c6\17\00\00\c9\17\00\00\d3\17\00\00\d7\17\00\00\d7\17\00\00\dd\17\00\00\dd\17\00\00\0b\18\00\00\0f\18\00\00C\18\00\00C\18\00\00\85\18\00\00\86\18\00\00\a9\18\00\00\a9\18\00\00 \19\00\00\"\19\00\00\'\19\00\00(\19\00\002\19\00\002\19\00\009\19\00\00;\19\00\00\17\1a\00\00\18\1a\00\00\1b\1a\00\00\1b\1a\00\00V\1a\00\00V\1a\00\00X\1a\00\00^\1a\00\00`\1a\00\00`\1a\00\00b\1a\00\00b\1a\00\00e\1a\00\00l\1a\00\00s\1a\00\00|\1a\00\00\7f\1a\00\00\7f\1a\00\00\a7\1a\00\00\a7\1a\00\00\b0\1a\00\00\ce\1a\00\00\00\1b\00\00\03\1b\00\004\1b\00\004\1b\00\006\1b\00\00:\1b\00\00<\1b\00\00<\1b\00\00B\1b\00\00B\1b\00\00k\1b\00\00s\1b\00\00\80\1b\00\00\81\1b\00\00\a2\1b\00\00\a5\1b\00\00\a8\1b\00\00\a9\1b\00\00\ab\1b\00\00\ad\1b\00\00\e6\1b\00\00\e6\1b\00\00\e8\1b\00\00\e9\1b\00\00\ed\1b\00\00\ed\1b\00\00\ef\1b\00\00\f1\1b\00\00,\1c\00\003\1c\00\006\1c\00\007\1c\00\00x\1c\00\00}\1c\00\00\d0\1c\00\00\d2\1c\00\00\d4\1c\00\00\e0\1c\00\00\e2\1c\00\00\e8\1c\00\00\ed\1c\00\00\ed\1c\00\00\f4\1c\00\00\f4\1c\00\00\f8\1c\00\00\f9\1c\00\00,\1d\00\00j\1d\00\00x\1d\00\00x\1d\00\00\9b\1d\00\00\ff\1d\00\00\bd\1f\00\00\bd\1f\00\00\bf\1f\00\00\c1\1f\00\00\cd\1f\00\00\cf\1f\00\00\dd\1f\00\00\df\1f\00\00\ed\1f\00\00\ef\1f\00\00\fd\1f\00\00\fe\1f\00\00\0b \00\00\0f \00\00\18 \00\00\19 \00\00$ \00\00$ \00\00\' \00\00\' \00\00* \00\00. \00\00` \00\00d \00\00f \00\00o \00\00q \00\00q \00\00\7f \00\00\7f \00\00\90 \00\00\9c \00\00\d0 \00\00\f0 \00\00|,\00\00},\00\00\ef,\00\00\f1,\00\00o-\00\00o-\00\00\7f-\00\00\7f-\00\00\e0-\00\00\ff-\00\00/.\00\00/.\00\00\050\00\00\050\00\00*0\00\00-0\00\0010\00\0050\00\00;0\00\00;0\00\00\990\00\00\9e0\00\00\fc0\00\00\fe0\00\00\15\a0\00\00\15\a0\00\00\f8\a4\00\00\fd\a4\00\00\0c\a6\00\00\0c\a6\00\00o\a6\00\00r\a6\00\00t\a6\00\00}\a6\00\00\7f\a6\00\00\7f\a6\00\00\9c\a6\00\00\9f\a6\00\00\f0\a6\00\00\f1\a6\00\00\00\a7\00\00!\a7\00\00p\a7\00\00p\a7\00\00\88\a7\00\00\8a\a7\00\00\f2\a7\00\00\f4\a7\00\00\f8\a7\00\00\f9\a7\00\00\02\a8\00\00\02\a8\00\00\06\a8\00\00\06\a8\00\00\0b\a8\00\00\0b\a8\00\00%\a8\00\00&\a8\00\00,\a8\00\00,\a8\00\00\c4\a8\00\00\c5\a8\00\00\e0\a8\00\00\f1\a8\00\00\ff\a8\00\00\ff\a8\00\00&\a9\00\00-\a9\00\00G\a9\00\00Q\a9\00\00\80\a9\00\00\82\a9\00\00\b3\a9\00\00\b3\a9\00\00\b6\a9\00\00\b9\a9\00\00\bc\a9\00\00\bd\a9\00\00\cf\a9\00\00\cf\a9\00\00\e5\a9\00\00\e6\a9\00\00)\aa\00\00.\aa\00\001\aa\00\002\aa\00\005\aa\00\006\aa\00\00C\aa\00\00C\aa\00\00L\aa\00\00L\aa\00\00p\aa\00\00p\aa\00\00|\aa\00\00|\aa\00\00\b0\aa\00\00\b0\aa\00\00\b2\aa\00\00\b4\aa\00\00\b7\aa\00\00\b8\aa\00\00\be\aa\00\00\bf\aa\00\00\c1\aa\00\00\c1\aa\00\00\dd\aa\00\00\dd\aa\00\00\ec\aa\00\00\ed\aa\00\00\f3\aa\00\00\f4\aa\00\00\f6\aa\00\00\f6\aa\00\00[\ab\00\00_\ab\00\00i\ab\00\00k\ab\00\00\e5\ab\00\00\e5\ab\00\00\e8\ab\00\00\e8\ab\00\00\ed\ab\00\00\ed\ab\00\00\1e\fb\00\00\1e\fb\00\00\b2\fb\00\00\c2\fb\00\00\00\fe\00\00\0f\fe\00\00\13\fe\00\00\13\fe\00\00 \fe\00\00/\fe\00\00R\fe\00\00R\fe\00\00U\fe\00\00U\fe\00\00\ff\fe\00\00\ff\fe\00\00\07\ff\00\00\07\ff\00\00\0e\ff\00\00\0e\ff\00\00\1a\ff\00\00\1a\ff\00\00>\ff\00\00>\ff\00\00@\ff\00\00@\ff\00\00p\ff\00\00p\ff\00\00\9e\ff\00\00\9f\ff\00\00\e3\ff\00\00\e3\ff\00\00\f9\ff\00\00\fb\ff\00\00\fd\01\01\00\fd\01\01\00\e0\02\01\00\e0\02\01\00v\03\01\00z\03\01\00\80\07\01\00\85\07\01\00\87\07\01\00\b0\07\01\00\b2\07\01\00\ba\07\01\00\01\n\01\00\03\n\01\00\05\n\01\00\06\n\01\00\0c\n\01\00\0f\n\01\008\n\01\00:\n\01\00?\n\01\00?\n\01\00\e5\n\01\00\e6\n\01\00$\0d\01\00\'\0d\01\00N\0d\01\00N\0d\01\00i\0d\01\00m\0d\01\00o\0d\01\00o\0d\01\00\ab\0e\01\00\ac\0e\01\00\fc\0e\01\00\ff\0e\01\00F\0f\01\00P\0f\01\00\82\0f\01\00\85\0f\01\00\01\10\01\00\01\10\01\008\10\01\00F\10\01\00p\10\01\00p\10\01\00s\10\01\00t\10\01\00\7f\10\01\00\81\10\01\00\b3\10\01\00\b6\10\01\00\b9\10\01\00\ba\10\01\00\bd\10\01\00\bd\10\01\00\c2\10\01\00\c2\10\01\00\cd\10\01\00\cd\10\01\00\00\11\01\00\02\11\01\00\'\11\01\00+\11\01\00-\11\01\004\11\01\00s\11\01\00s\11\01\00\80\11\01\00\81\11\01\00\b6\11\01\00\be\11\01\00\c9\11\01\00\cc\11\01\00\cf\11\01\00\cf\11\01\00/\12\01\001\12\01\004\12\01\004\12\01\006\12\01\007\12\01\00>\12\01\00>\12\01\00A\12\01\00A\12\01\00\df\12\01\00\df\12\01\00\e3\12\01\00\ea\12\01\00\00\13\01\00\01\13\01\00;\13\01\00<\13\01\00@\13\01\00@\13\01\00f\13\01\00l\13\01\00p\13\01\00t\13\01\00\bb\13\01\00\c0\13\01\00\ce\13\01\00\ce\13\01\00\d0\13\01\00\d0\13\01\00\d2\13\01\00\d2\13\01\00\e1\13\01\00\e2\13\01\008\14\01\00?\14\01\00B\14\01\00D\14\01\00F\14\01\00F\14\01\00^\14\01\00^\14\01\00\b3\14\01\00\b8\14\01\00\ba\14\01\00\ba\14\01\00\bf\14\01\00\c0\14\01\00\c2\14\01\00\c3\14\01\00\b2\15\01\00\b5\15\01\00\bc\15\01\00\bd\15\01\00\bf\15\01\00\c0\15\01\00\dc\15\01\00\dd\15\01\003\16\01\00:\16\01\00=\16\01\00=\16\01\00?\16\01\00@\16\01\00\ab\16\01\00\ab\16\01\00\ad\16\01\00\ad\16\01\00\b0\16\01\00\b5\16\01\00\b7\16\01\00\b7\16\01\00\1d\17\01\00\1d\17\01\00\1f\17\01\00\1f\17\01\00\"\17\01\00%\17\01\00\'\17\01\00+\17\01\00/\18\01\007\18\01\009\18\01\00:\18\01\00;\19\01\00<\19\01\00>\19\01\00>\19\01\00C\19\01\00C\19\01\00\d4\19\01\00\d7\19\01\00\da\19\01\00\db\19\01\00\e0\19\01\00\e0\19\01\00\01\1a\01\00\n\1a\01\003\1a\01\008\1a\01\00;\1a\01\00>\1a\01\00G\1a\01\00G\1a\01\00Q\1a\01\00V\1a\01\00Y\1a\01\00[\1a\01\00\8a\1a\01\00\96\1a\01\00\98\1a\01\00\99\1a\01\000\1c\01\006\1c\01\008\1c\01\00=\1c\01\00?\1c\01\00?\1c\01\00\92\1c\01\00\a7\1c\01\00\aa\1c\01\00\b0\1c\01\00\b2\1c\01\00\b3\1c\01\00\b5\1c\01\00\b6\1c\01\001\1d\01\006\1d\01\00:\1d\01\00:\1d\01\00<\1d\01\00=\1d\01\00?\1d\01\00E\1d\01\00G\1d\01\00G\1d\01\00\90\1d\01\00\91\1d\01\00\95\1d\01\00\95\1d\01\00\97\1d\01\00\97\1d\01\00\f3\1e\01\00\f4\1e\01\00\00\1f\01\00\01\1f\01\006\1f\01\00:\1f\01\00@\1f\01\00@\1f\01\00B\1f\01\00B\1f\01\00Z\1f\01\00Z\1f\01\0004\01\00@4\01\00G4\01\00U4\01\00\1ea\01\00)a\01\00-a\01\00/a\01\00\f0j\01\00\f4j\01\000k\01\006k\01\00@k\01\00Ck\01\00@m\01\00Bm\01\00km\01\00lm\01\00Oo\01\00Oo\01\00\8fo\01\00\9fo\01\00\e0o\01\00\e1o\01\00\e3o\01\00\e4o\01\00\f0\af\01\00\f3\af\01\00\f5\af\01\00\fb\af\01\00\fd\af\01\00\fe\af\01\00\9d\bc\01\00\9e\bc\01\00\a0\bc\01\00\a3\bc\01\00\00\cf\01\00-\cf\01\000\cf\01\00F\cf\01\00g\d1\01\00i\d1\01\00s\d1\01\00\82\d1\01\00\85\d1\01\00\8b\d1\01\00\aa\d1\01\00\ad\d1\01\00B\d2\01\00D\d2\01\00\00\da\01\006\da\01\00;\da\01\00l\da\01\00u\da\01\00u\da\01\00\84\da\01\00\84\da\01\00\9b\da\01\00\9f\da\01\00\a1\da\01\00\af\da\01\00\00\e0\01\00\06\e0\01\00\08\e0\01\00\18\e0\01\00\1b\e0\01\00!\e0\01\00#\e0\01\00$\e0\01\00&\e0\01\00*\e0\01\000\e0\01\00m\e0\01\00\8f\e0\01\00\8f\e0\01\000\e1\01\00=\e1\01\00\ae\e2\01\00\ae\e2\01\00\ec\e2\01\00\ef\e2\01\00\eb\e4\01\00\ef\e4\01\00\ee\e5\01\00\ef\e5\01\00\d0\e8\01\00\d6\e8\01\00D\e9\01\00K\e9\01\00\fb\f3\01\00\ff\f3\01\00\01\00\0e\00\01\00\0e\00 \00\0e\00\7f\00\0e\00\00\01\0e\00\ef\01\0e\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00\00")
+ (data (i32.const 199136) "\e0\f9\02\00\88\03\00\00")
+ (data (i32.const 199144) "\03\00\00\00a\00b\00d\00")
+ (data (i32.const 199160) "\01\00\00\00B\00")
+ (data (i32.const 199168) "\01\00\00\00A\00")
+ (data (i32.const 199176) "\01\00\00\00\e9\00")
+ (data (i32.const 199184) "\01\00\00\00f\00")
+ (data (i32.const 199192) "\01\00\00\00\e1\00")
+ (data (i32.const 199200) "\06\00\00\00r\00e\00s\00u\00m\00e\00")
+ (data (i32.const 199216) "\06\00\00\00R\00\e9\00s\00u\00m\00\e9\00")
+ (data (i32.const 199232) "\02\00\00\00e\00\01\03")
+ (data (i32.const 199240) "\01\00\00\00+\00")
+ (data (i32.const 199248) "\01\00\00\00$\00")
+ (data (i32.const 199256) "\04\00\00\00+\00a\00b\00c\00")
+ (data (i32.const 199272) "\06\00\00\00a\00x\00c\00a\00b\00c\00")
+ (data (i32.const 199288) "\01\00\00\00d\00")
+ (data (i32.const 199296) "\n\00\00\00[\00$\00&\00$\00`\00$\00\'\00$\00$\00]\00")
+ (data (i32.const 199320) "\08\00\00\00a\00[\00b\00a\00c\00$\00]\00c\00")
+ (data (i32.const 199344) "\03\00\00\00$\001\00$\00")
+ (data (i32.const 199360) "\05\00\00\00a\00$\001\00$\00c\00")
+ (data (i32.const 199376) "\06\00\00\00a\00x\00c\00a\00x\00c\00")
+ (data (i32.const 199392) "\01\00\00\00-\00")
+ (data (i32.const 199400) "\07\00\00\00-\00a\00-\00b\00-\00c\00-\00")
+ (data (i32.const 199424) "\04\00\00\00a\00b\00a\00b\00")
+ (data (i32.const 199440) "\06\00\00\00<\00$\00&\00$\00`\00>\00")
+ (data (i32.const 199456) "\0f\00\00\00a\00<\00b\00a\00>\00c\00a\00<\00b\00a\00b\00c\00a\00>\00c\00")
+ (data (i32.const 199496) "\06\00\00\00a\00,\00b\00,\00,\00c\00")
+ (data (i32.const 199512) "\01\00\00\00c\00")
+ (data (i32.const 199520) "\04\00\00\00a\00,\00 \00b\00")
+ (data (i32.const 199536) "\02\00\00\00,\00 \00")
+ (data (i32.const 199544) "\03\00\00\00,\00a\00,\00")
+ (data (i32.const 199560) "\05\00\00\00a\00,\00b\00,\00c\00")
+ (data (i32.const 199576) "\03\00\00\00a\00,\00b\00")
+ (data (i32.const 199592) "\01\00\00\008\00")
+ (data (i32.const 199600) "\05\00\00\00-\001\000\000\000\00")
+ (data (i32.const 199616) "\04\00\00\001\002\003\004\00")
+ (data (i32.const 199632) "\05\00\00\001\002\003\004\005\00")
+ (data (i32.const 199648) "\06\00\00\001\002\003\004\005\006\00")
+ (data (i32.const 199664) "\07\00\00\001\001\001\001\001\001\001\00")
+ (data (i32.const 199688) "\07\00\00\001\002\003\004\005\006\007\00")
+ (data (i32.const 199712) "\n\00\00\002\001\004\007\004\008\003\006\004\006\00")
+ (data (i32.const 199736) "\n\00\00\002\001\004\007\004\008\003\006\004\007\00")
+ (data (i32.const 199760) "\0b\00\00\00-\002\001\004\007\004\008\003\006\004\008\00")
+ (data (i32.const 199792) "\02\00\00\00-\001\00")
+ (data (i32.const 199800) "\04\00\00\001\000\000\000\00")
+ (data (i32.const 199816) "\n\00\00\002\001\004\007\004\008\003\006\004\008\00")
+ (data (i32.const 199840) "\n\00\00\004\002\009\004\009\006\007\002\009\005\00")
+ (data (i32.const 199864) "\08\00\00\009\009\009\009\009\009\009\009\00")
+ (data (i32.const 199888) "\t\00\00\001\000\000\000\000\000\000\000\000\00")
+ (data (i32.const 199912) "\0b\00\00\006\008\007\001\009\004\007\006\007\003\005\00")
+ (data (i32.const 199944) "\0c\00\00\008\006\008\007\001\009\004\007\006\007\003\005\00")
+ (data (i32.const 199976) "\0f\00\00\009\009\009\008\006\008\007\001\009\004\007\006\007\003\005\00")
+ (data (i32.const 200016) "\10\00\00\009\009\009\009\008\006\008\007\001\009\004\007\006\007\003\005\00")
+ (data (i32.const 200056) "\11\00\00\001\009\009\009\009\008\006\008\007\001\009\004\007\006\007\003\005\00")
+ (data (i32.const 200096) "\14\00\00\001\008\004\004\006\007\004\004\000\007\003\007\000\009\005\005\001\006\001\005\00")
+ (data (i32.const 200144) "\05\00\00\00-\001\002\003\004\00")
+ (data (i32.const 200160) "\0b\00\00\00-\004\002\009\004\009\006\007\002\009\005\00")
+ (data (i32.const 200192) "\0c\00\00\00-\006\008\007\001\009\004\007\006\007\003\005\00")
+ (data (i32.const 200224) "\0d\00\00\00-\008\006\008\007\001\009\004\007\006\007\003\005\00")
+ (data (i32.const 200256) "\10\00\00\00-\009\009\009\008\006\008\007\001\009\004\007\006\007\003\005\00")
+ (data (i32.const 200296) "\12\00\00\00-\001\009\009\009\009\008\006\008\007\001\009\004\007\006\007\003\005\00")
+ (data (i32.const 200336) "\13\00\00\009\002\002\003\003\007\002\000\003\006\008\005\004\007\007\005\008\000\007\00")
+ (data (i32.const 200384) "\14\00\00\00-\009\002\002\003\003\007\002\000\003\006\008\005\004\007\007\005\008\000\008\00")
  (export "memory" (memory $0))
  (export "getString" (func $std/string/getString))
  (start $start)
@@ -164,7 +326,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 80)
-     (i32.const 71)
+     (i32.const 96)
      (i32.const 4)
     )
     (unreachable)
@@ -325,7 +487,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 112)
-     (i32.const 14)
+     (i32.const 28)
      (i32.const 2)
     )
     (unreachable)
@@ -423,13 +585,13 @@
        (set_local $6
         (i32.add
          (get_local $6)
-         (i32.const 1)
+         (i32.const 2)
         )
        )
        (set_local $7
         (i32.add
          (get_local $7)
-         (i32.const 1)
+         (i32.const 2)
         )
        )
       )
@@ -512,7 +674,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 80)
-     (i32.const 30)
+     (i32.const 51)
      (i32.const 4)
     )
     (unreachable)
@@ -569,10 +731,10 @@
      (get_local $2)
      (i32.or
       (i32.shl
-       (get_local $3)
+       (get_local $4)
        (i32.const 16)
       )
-      (get_local $4)
+      (get_local $3)
      )
     )
    )
@@ -597,7 +759,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 80)
-     (i32.const 239)
+     (i32.const 279)
      (i32.const 4)
     )
     (unreachable)
@@ -689,7 +851,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 80)
-     (i32.const 120)
+     (i32.const 145)
      (i32.const 4)
     )
     (unreachable)
@@ -801,7 +963,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 80)
-     (i32.const 208)
+     (i32.const 233)
      (i32.const 4)
     )
     (unreachable)
@@ -3449,7 +3611,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 80)
-     (i32.const 345)
+     (i32.const 385)
      (i32.const 4)
     )
     (unreachable)
@@ -3599,7 +3761,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 80)
-     (i32.const 365)
+     (i32.const 405)
      (i32.const 4)
     )
     (unreachable)
@@ -3733,12 +3895,112 @@
    (get_local $2)
   )
  )
- (func $~lib/string/String#lastIndexOf (; 21 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+ (func $~lib/internal/string/isWhiteSpaceOrLineTerminator (; 21 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (block $break|0
+   (block $case10|0
+    (block $case9|0
+     (block $case8|0
+      (block $case7|0
+       (block $case6|0
+        (block $case5|0
+         (block $case4|0
+          (block $case3|0
+           (block $case2|0
+            (block $case1|0
+             (block $case0|0
+              (set_local $1
+               (i32.and
+                (get_local $0)
+                (i32.const 65535)
+               )
+              )
+              (br_if $case0|0
+               (i32.eq
+                (get_local $1)
+                (i32.const 10)
+               )
+              )
+              (br_if $case1|0
+               (i32.eq
+                (get_local $1)
+                (i32.const 13)
+               )
+              )
+              (br_if $case2|0
+               (i32.eq
+                (get_local $1)
+                (i32.const 8232)
+               )
+              )
+              (br_if $case3|0
+               (i32.eq
+                (get_local $1)
+                (i32.const 8233)
+               )
+              )
+              (br_if $case4|0
+               (i32.eq
+                (get_local $1)
+                (i32.const 9)
+               )
+              )
+              (br_if $case5|0
+               (i32.eq
+                (get_local $1)
+                (i32.const 11)
+               )
+              )
+              (br_if $case6|0
+               (i32.eq
+                (get_local $1)
+                (i32.const 12)
+               )
+              )
+              (br_if $case7|0
+               (i32.eq
+                (get_local $1)
+                (i32.const 32)
+               )
+              )
+              (br_if $case8|0
+               (i32.eq
+                (get_local $1)
+                (i32.const 160)
+               )
+              )
+              (br_if $case9|0
+               (i32.eq
+                (get_local $1)
+                (i32.const 65279)
+               )
+              )
+              (br $case10|0)
+             )
+            )
+           )
+          )
+         )
+        )
+       )
+      )
+     )
+    )
+    (return
+     (i32.const 1)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (unreachable)
+ )
+ (func $~lib/string/String#trim (; 22 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
   (local $3 i32)
   (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
   (if
    (i32.eqz
     (i32.ne
@@ -3750,263 +4012,611 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 80)
-     (i32.const 224)
+     (i32.const 319)
      (i32.const 4)
     )
     (unreachable)
    )
   )
-  (if
-   (i32.eq
-    (get_local $1)
-    (i32.const 0)
-   )
-   (set_local $1
-    (i32.const 200)
-   )
-  )
-  (set_local $3
+  (set_local $1
    (i32.load
     (get_local $0)
    )
   )
-  (set_local $4
-   (i32.load
-    (get_local $1)
-   )
-  )
-  (if
-   (i32.eqz
-    (get_local $4)
-   )
-   (return
-    (get_local $3)
+  (block $break|0
+   (loop $continue|0
+    (if
+     (if (result i32)
+      (get_local $1)
+      (call $~lib/internal/string/isWhiteSpaceOrLineTerminator
+       (i32.load16_u offset=4
+        (i32.add
+         (get_local $0)
+         (i32.shl
+          (i32.sub
+           (get_local $1)
+           (i32.const 1)
+          )
+          (i32.const 1)
+         )
+        )
+       )
+      )
+      (get_local $1)
+     )
+     (block
+      (set_local $1
+       (i32.sub
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (br $continue|0)
+     )
+    )
    )
   )
-  (if
-   (i32.eqz
-    (get_local $3)
-   )
-   (return
-    (i32.const -1)
-   )
+  (set_local $2
+   (i32.const 0)
   )
-  (set_local $7
-   (select
-    (tee_local $5
-     (select
-      (tee_local $5
-       (get_local $2)
-      )
-      (tee_local $6
-       (i32.const 0)
+  (block $break|1
+   (loop $continue|1
+    (if
+     (if (result i32)
+      (tee_local $3
+       (i32.lt_u
+        (get_local $2)
+        (get_local $1)
+       )
       )
-      (i32.gt_s
-       (get_local $5)
-       (get_local $6)
+      (call $~lib/internal/string/isWhiteSpaceOrLineTerminator
+       (i32.load16_u offset=4
+        (i32.add
+         (get_local $0)
+         (i32.shl
+          (get_local $2)
+          (i32.const 1)
+         )
+        )
+       )
       )
-     )
-    )
-    (tee_local $6
-     (i32.sub
       (get_local $3)
-      (get_local $4)
      )
-    )
-    (i32.lt_s
-     (get_local $5)
-     (get_local $6)
+     (block
+      (block
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+       (set_local $1
+        (i32.sub
+         (get_local $1)
+         (i32.const 1)
+        )
+       )
+      )
+      (br $continue|1)
+     )
     )
    )
   )
-  (block $break|0
-   (set_local $5
-    (get_local $7)
+  (if
+   (i32.eqz
+    (get_local $1)
    )
-   (loop $repeat|0
-    (br_if $break|0
-     (i32.eqz
-      (i32.ge_s
-       (get_local $5)
-       (i32.const 0)
-      )
-     )
-    )
-    (if
+   (return
+    (i32.const 256)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $3
      (i32.eqz
-      (call $~lib/internal/string/compareUnsafe
-       (get_local $0)
-       (get_local $5)
-       (get_local $1)
-       (i32.const 0)
-       (get_local $4)
-      )
-     )
-     (return
-      (get_local $5)
+      (get_local $2)
      )
     )
-    (set_local $5
-     (i32.sub
-      (get_local $5)
-      (i32.const 1)
+    (i32.eq
+     (get_local $1)
+     (i32.load
+      (get_local $0)
      )
     )
-    (br $repeat|0)
+    (get_local $3)
    )
-  )
-  (i32.const -1)
- )
- (func $~lib/string/String#lastIndexOf|trampoline (; 22 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
-  (block $1of1
-   (block $0of1
-    (block $outOfRange
-     (br_table $0of1 $1of1 $outOfRange
-      (i32.sub
-       (get_global $~argc)
-       (i32.const 1)
-      )
-     )
-    )
-    (unreachable)
+   (return
+    (get_local $0)
    )
-   (set_local $2
-    (get_global $~lib/builtins/i32.MAX_VALUE)
+  )
+  (set_local $4
+   (call $~lib/internal/string/allocateUnsafe
+    (get_local $1)
    )
   )
-  (call $~lib/string/String#lastIndexOf
+  (call $~lib/internal/string/copyUnsafe
+   (get_local $4)
+   (i32.const 0)
    (get_local $0)
-   (get_local $1)
    (get_local $2)
+   (get_local $1)
   )
+  (get_local $4)
  )
- (func $std/string/getString (; 23 ;) (type $i) (result i32)
-  (get_global $std/string/str)
- )
- (func $~lib/internal/string/parse<f64> (; 24 ;) (type $iiF) (param $0 i32) (param $1 i32) (result f64)
+ (func $~lib/string/String#trimLeft (; 23 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
-  (local $5 f64)
-  (local $6 i32)
-  (local $7 f64)
-  (set_local $2
-   (i32.load
-    (get_local $0)
-   )
-  )
+  (local $5 i32)
   (if
    (i32.eqz
-    (get_local $2)
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
+    )
    )
-   (return
-    (f64.const nan:0x8000000000000)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 80)
+     (i32.const 347)
+     (i32.const 4)
+    )
+    (unreachable)
    )
   )
-  (set_local $3
-   (get_local $0)
+  (set_local $1
+   (i32.const 0)
   )
-  (set_local $4
-   (i32.load16_u offset=4
-    (get_local $3)
+  (set_local $2
+   (i32.load
+    (get_local $0)
    )
   )
-  (if
-   (i32.eq
-    (get_local $4)
-    (get_global $~lib/internal/string/CharCode.MINUS)
-   )
-   (block
+  (block $break|0
+   (loop $continue|0
     (if
-     (i32.eqz
-      (tee_local $2
-       (i32.sub
+     (if (result i32)
+      (tee_local $3
+       (i32.lt_s
+        (get_local $1)
         (get_local $2)
-        (i32.const 1)
        )
       )
+      (call $~lib/internal/string/isWhiteSpaceOrLineTerminator
+       (i32.load16_u offset=4
+        (i32.add
+         (get_local $0)
+         (i32.shl
+          (get_local $1)
+          (i32.const 1)
+         )
+        )
+       )
+      )
+      (get_local $3)
      )
-     (return
-      (f64.const nan:0x8000000000000)
-     )
-    )
-    (set_local $4
-     (i32.load16_u offset=4
-      (tee_local $3
+     (block
+      (set_local $1
        (i32.add
-        (get_local $3)
-        (i32.const 2)
+        (get_local $1)
+        (i32.const 1)
        )
       )
+      (br $continue|0)
      )
     )
-    (set_local $5
-     (f64.const -1)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (return
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.sub
+    (get_local $2)
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $4)
+   )
+   (return
+    (i32.const 256)
+   )
+  )
+  (set_local $5
+   (call $~lib/internal/string/allocateUnsafe
+    (get_local $4)
+   )
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (get_local $5)
+   (i32.const 0)
+   (get_local $0)
+   (get_local $1)
+   (get_local $4)
+  )
+  (get_local $5)
+ )
+ (func $~lib/string/String#trimRight (; 24 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eqz
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
     )
    )
-   (if
-    (i32.eq
-     (get_local $4)
-     (get_global $~lib/internal/string/CharCode.PLUS)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 80)
+     (i32.const 367)
+     (i32.const 4)
     )
-    (block
-     (if
-      (i32.eqz
-       (tee_local $2
-        (i32.sub
-         (get_local $2)
-         (i32.const 1)
-        )
+    (unreachable)
+   )
+  )
+  (set_local $1
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (if (result i32)
+      (tee_local $2
+       (i32.gt_s
+        (get_local $1)
+        (i32.const 0)
        )
       )
-      (return
-       (f64.const nan:0x8000000000000)
-      )
-     )
-     (set_local $4
-      (i32.load16_u offset=4
-       (tee_local $3
+      (call $~lib/internal/string/isWhiteSpaceOrLineTerminator
+       (i32.load16_u offset=4
         (i32.add
-         (get_local $3)
-         (i32.const 2)
+         (get_local $0)
+         (i32.shl
+          (i32.sub
+           (get_local $1)
+           (i32.const 1)
+          )
+          (i32.const 1)
+         )
         )
        )
       )
+      (get_local $2)
      )
-     (set_local $5
-      (f64.const 1)
+     (block
+      (set_local $1
+       (i32.sub
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (br $continue|0)
      )
     )
-    (set_local $5
-     (f64.const 1)
+   )
+  )
+  (if
+   (i32.le_s
+    (get_local $1)
+    (i32.const 0)
+   )
+   (return
+    (i32.const 256)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.load
+     (get_local $0)
     )
    )
+   (return
+    (get_local $0)
+   )
   )
+  (set_local $3
+   (call $~lib/internal/string/allocateUnsafe
+    (get_local $1)
+   )
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (get_local $3)
+   (i32.const 0)
+   (get_local $0)
+   (i32.const 0)
+   (get_local $1)
+  )
+  (get_local $3)
+ )
+ (func $~lib/string/String#lastIndexOf (; 25 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
   (if
    (i32.eqz
-    (get_local $1)
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
+    )
    )
-   (if
-    (if (result i32)
-     (tee_local $6
-      (i32.eq
-       (get_local $4)
-       (get_global $~lib/internal/string/CharCode._0)
-      )
-     )
-     (i32.gt_s
-      (get_local $2)
-      (i32.const 2)
-     )
-     (get_local $6)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 80)
+     (i32.const 249)
+     (i32.const 4)
     )
-    (block $break|0
-     (block $case6|0
-      (block $case5|0
-       (block $case4|0
-        (block $case3|0
-         (block $case2|0
-          (block $case1|0
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 0)
+   )
+   (set_local $1
+    (i32.const 200)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.load
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $4)
+   )
+   (return
+    (get_local $3)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $3)
+   )
+   (return
+    (i32.const -1)
+   )
+  )
+  (set_local $7
+   (select
+    (tee_local $5
+     (select
+      (tee_local $5
+       (get_local $2)
+      )
+      (tee_local $6
+       (i32.const 0)
+      )
+      (i32.gt_s
+       (get_local $5)
+       (get_local $6)
+      )
+     )
+    )
+    (tee_local $6
+     (i32.sub
+      (get_local $3)
+      (get_local $4)
+     )
+    )
+    (i32.lt_s
+     (get_local $5)
+     (get_local $6)
+    )
+   )
+  )
+  (block $break|0
+   (set_local $5
+    (get_local $7)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.ge_s
+       (get_local $5)
+       (i32.const 0)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (call $~lib/internal/string/compareUnsafe
+       (get_local $0)
+       (get_local $5)
+       (get_local $1)
+       (i32.const 0)
+       (get_local $4)
+      )
+     )
+     (return
+      (get_local $5)
+     )
+    )
+    (set_local $5
+     (i32.sub
+      (get_local $5)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (i32.const -1)
+ )
+ (func $~lib/string/String#lastIndexOf|trampoline (; 26 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (block $1of1
+   (block $0of1
+    (block $outOfRange
+     (br_table $0of1 $1of1 $outOfRange
+      (i32.sub
+       (get_global $~argc)
+       (i32.const 1)
+      )
+     )
+    )
+    (unreachable)
+   )
+   (set_local $2
+    (get_global $~lib/builtins/i32.MAX_VALUE)
+   )
+  )
+  (call $~lib/string/String#lastIndexOf
+   (get_local $0)
+   (get_local $1)
+   (get_local $2)
+  )
+ )
+ (func $std/string/getString (; 27 ;) (type $i) (result i32)
+  (get_global $std/string/str)
+ )
+ (func $~lib/internal/string/parse<f64> (; 28 ;) (type $iiF) (param $0 i32) (param $1 i32) (result f64)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 f64)
+  (local $6 i32)
+  (local $7 f64)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return
+    (f64.const nan:0x8000000000000)
+   )
+  )
+  (set_local $3
+   (get_local $0)
+  )
+  (set_local $4
+   (i32.load16_u offset=4
+    (get_local $3)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $4)
+    (i32.const 45)
+   )
+   (block
+    (if
+     (i32.eqz
+      (tee_local $2
+       (i32.sub
+        (get_local $2)
+        (i32.const 1)
+       )
+      )
+     )
+     (return
+      (f64.const nan:0x8000000000000)
+     )
+    )
+    (set_local $4
+     (i32.load16_u offset=4
+      (tee_local $3
+       (i32.add
+        (get_local $3)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (set_local $5
+     (f64.const -1)
+    )
+   )
+   (if
+    (i32.eq
+     (get_local $4)
+     (i32.const 43)
+    )
+    (block
+     (if
+      (i32.eqz
+       (tee_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (return
+       (f64.const nan:0x8000000000000)
+      )
+     )
+     (set_local $4
+      (i32.load16_u offset=4
+       (tee_local $3
+        (i32.add
+         (get_local $3)
+         (i32.const 2)
+        )
+       )
+      )
+     )
+     (set_local $5
+      (f64.const 1)
+     )
+    )
+    (set_local $5
+     (f64.const 1)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (if
+    (if (result i32)
+     (tee_local $6
+      (i32.eq
+       (get_local $4)
+       (i32.const 48)
+      )
+     )
+     (i32.gt_s
+      (get_local $2)
+      (i32.const 2)
+     )
+     (get_local $6)
+    )
+    (block $break|0
+     (block $case6|0
+      (block $case5|0
+       (block $case4|0
+        (block $case3|0
+         (block $case2|0
+          (block $case1|0
            (block $case0|0
             (set_local $6
              (i32.load16_u offset=4
@@ -4019,37 +4629,37 @@
             (br_if $case0|0
              (i32.eq
               (get_local $6)
-              (get_global $~lib/internal/string/CharCode.B)
+              (i32.const 66)
              )
             )
             (br_if $case1|0
              (i32.eq
               (get_local $6)
-              (get_global $~lib/internal/string/CharCode.b)
+              (i32.const 98)
              )
             )
             (br_if $case2|0
              (i32.eq
               (get_local $6)
-              (get_global $~lib/internal/string/CharCode.O)
+              (i32.const 79)
              )
             )
             (br_if $case3|0
              (i32.eq
               (get_local $6)
-              (get_global $~lib/internal/string/CharCode.o)
+              (i32.const 111)
              )
             )
             (br_if $case4|0
              (i32.eq
               (get_local $6)
-              (get_global $~lib/internal/string/CharCode.X)
+              (i32.const 88)
              )
             )
             (br_if $case5|0
              (i32.eq
               (get_local $6)
-              (get_global $~lib/internal/string/CharCode.x)
+              (i32.const 120)
              )
             )
             (br $case6|0)
@@ -4171,19 +4781,19 @@
          (tee_local $6
           (i32.ge_s
            (get_local $4)
-           (get_global $~lib/internal/string/CharCode._0)
+           (i32.const 48)
           )
          )
          (i32.le_s
           (get_local $4)
-          (get_global $~lib/internal/string/CharCode._9)
+          (i32.const 57)
          )
          (get_local $6)
         )
         (set_local $4
          (i32.sub
           (get_local $4)
-          (get_global $~lib/internal/string/CharCode._0)
+          (i32.const 48)
          )
         )
         (if
@@ -4191,12 +4801,12 @@
           (tee_local $6
            (i32.ge_s
             (get_local $4)
-            (get_global $~lib/internal/string/CharCode.A)
+            (i32.const 65)
            )
           )
           (i32.le_s
            (get_local $4)
-           (get_global $~lib/internal/string/CharCode.Z)
+           (i32.const 90)
           )
           (get_local $6)
          )
@@ -4204,7 +4814,7 @@
           (i32.sub
            (get_local $4)
            (i32.sub
-            (get_global $~lib/internal/string/CharCode.A)
+            (i32.const 65)
             (i32.const 10)
            )
           )
@@ -4214,12 +4824,12 @@
            (tee_local $6
             (i32.ge_s
              (get_local $4)
-             (get_global $~lib/internal/string/CharCode.a)
+             (i32.const 97)
             )
            )
            (i32.le_s
             (get_local $4)
-            (get_global $~lib/internal/string/CharCode.z)
+            (i32.const 122)
            )
            (get_local $6)
           )
@@ -4227,7 +4837,7 @@
            (i32.sub
             (get_local $4)
             (i32.sub
-             (get_global $~lib/internal/string/CharCode.a)
+             (i32.const 97)
              (i32.const 10)
             )
            )
@@ -4273,13 +4883,13 @@
    (get_local $7)
   )
  )
- (func $~lib/string/parseInt (; 25 ;) (type $iiF) (param $0 i32) (param $1 i32) (result f64)
+ (func $~lib/string/parseInt (; 29 ;) (type $iiF) (param $0 i32) (param $1 i32) (result f64)
   (call $~lib/internal/string/parse<f64>
    (get_local $0)
    (get_local $1)
   )
  )
- (func $~lib/string/parseFloat (; 26 ;) (type $iF) (param $0 i32) (result f64)
+ (func $~lib/string/parseFloat (; 30 ;) (type $iF) (param $0 i32) (result f64)
   (local $1 i32)
   (local $2 i32)
   (local $3 i32)
@@ -4311,7 +4921,7 @@
   (if
    (i32.eq
     (get_local $3)
-    (get_global $~lib/internal/string/CharCode.MINUS)
+    (i32.const 45)
    )
    (block
     (if
@@ -4344,7 +4954,7 @@
    (if
     (i32.eq
      (get_local $3)
-     (get_global $~lib/internal/string/CharCode.PLUS)
+     (i32.const 43)
     )
     (block
      (if
@@ -4407,7 +5017,7 @@
        (if
         (i32.eq
          (get_local $3)
-         (get_global $~lib/internal/string/CharCode.DOT)
+         (i32.const 46)
         )
         (block
          (set_local $2
@@ -4446,13 +5056,13 @@
                 (tee_local $6
                  (i32.eq
                   (get_local $3)
-                  (get_global $~lib/internal/string/CharCode.E)
+                  (i32.const 69)
                  )
                 )
                 (get_local $6)
                 (i32.eq
                  (get_local $3)
-                 (get_global $~lib/internal/string/CharCode.e)
+                 (i32.const 101)
                 )
                )
                (if
@@ -4463,7 +5073,7 @@
                  (call $~lib/env/abort
                   (i32.const 0)
                   (i32.const 80)
-                  (i32.const 513)
+                  (i32.const 678)
                   (i32.const 10)
                  )
                  (unreachable)
@@ -4473,7 +5083,7 @@
               (set_local $3
                (i32.sub
                 (get_local $3)
-                (get_global $~lib/internal/string/CharCode._0)
+                (i32.const 48)
                )
               )
               (if
@@ -4518,7 +5128,7 @@
        (set_local $3
         (i32.sub
          (get_local $3)
-         (get_global $~lib/internal/string/CharCode._0)
+         (i32.const 48)
         )
        )
        (if
@@ -4556,7 +5166,7 @@
    (get_local $5)
   )
  )
- (func $~lib/string/String#concat (; 27 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/string/String#concat (; 31 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
@@ -4572,7 +5182,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 80)
-     (i32.const 106)
+     (i32.const 131)
      (i32.const 4)
     )
     (unreachable)
@@ -4633,7 +5243,7 @@
   )
   (get_local $5)
  )
- (func $~lib/string/String.__concat (; 28 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/string/String.__concat (; 32 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (if
    (i32.eqz
     (get_local $0)
@@ -4647,7 +5257,7 @@
    (get_local $1)
   )
  )
- (func $~lib/string/String.__ne (; 29 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/string/String.__ne (; 33 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (i32.eqz
    (call $~lib/string/String.__eq
     (get_local $0)
@@ -4655,1038 +5265,1401 @@
    )
   )
  )
- (func $~lib/string/String.__gt (; 30 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/internal/itoa/decimalCountU32 (; 34 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (if
-   (if (result i32)
-    (tee_local $2
-     (if (result i32)
-      (tee_local $2
-       (i32.eq
-        (get_local $0)
-        (get_local $1)
-       )
-      )
-      (get_local $2)
-      (i32.eq
-       (get_local $0)
-       (i32.const 0)
-      )
-     )
+  (set_local $1
+   (i32.sub
+    (i32.const 32)
+    (i32.clz
+     (get_local $0)
     )
-    (get_local $2)
-    (i32.eq
+   )
+  )
+  (set_local $2
+   (i32.shr_u
+    (i32.mul
      (get_local $1)
-     (i32.const 0)
+     (i32.const 1233)
     )
-   )
-   (return
-    (i32.const 0)
+    (i32.const 12)
    )
   )
   (set_local $3
    (i32.load
-    (get_local $0)
+    (block $~lib/internal/itoa/POWERS10|inlined.0 (result i32)
+     (i32.const 800)
+    )
    )
   )
   (set_local $4
-   (i32.load
-    (get_local $1)
-   )
-  )
-  (if
-   (i32.eqz
-    (get_local $3)
-   )
-   (return
-    (i32.const 0)
-   )
-  )
-  (if
-   (i32.eqz
-    (get_local $4)
-   )
-   (return
-    (i32.const 1)
+   (block $~lib/internal/arraybuffer/loadUnsafe<u32,u32>|inlined.0 (result i32)
+    (i32.load offset=8
+     (i32.add
+      (get_local $3)
+      (i32.shl
+       (get_local $2)
+       (i32.const 2)
+      )
+     )
+    )
    )
   )
-  (set_local $6
-   (select
-    (tee_local $2
-     (get_local $3)
-    )
-    (tee_local $5
+  (set_local $2
+   (i32.sub
+    (get_local $2)
+    (i32.lt_u
+     (get_local $0)
      (get_local $4)
     )
-    (i32.lt_s
-     (get_local $2)
-     (get_local $5)
-    )
    )
   )
-  (i32.gt_s
-   (call $~lib/internal/string/compareUnsafe
-    (get_local $0)
-    (i32.const 0)
-    (get_local $1)
-    (i32.const 0)
-    (get_local $6)
-   )
-   (i32.const 0)
+  (i32.add
+   (get_local $2)
+   (i32.const 1)
   )
  )
- (func $~lib/string/String.__gte (; 31 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
+ (func $~lib/internal/itoa/utoa32_lut (; 35 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
   (local $6 i32)
-  (if
-   (i32.eq
-    (get_local $0)
-    (get_local $1)
-   )
-   (return
-    (i32.const 1)
-   )
-  )
-  (if
-   (if (result i32)
-    (tee_local $2
-     (i32.eq
-      (get_local $0)
-      (i32.const 0)
-     )
-    )
-    (get_local $2)
-    (i32.eq
-     (get_local $1)
-     (i32.const 0)
-    )
-   )
-   (return
-    (i32.const 0)
-   )
-  )
+  (local $7 i32)
+  (local $8 i64)
+  (local $9 i64)
   (set_local $3
    (i32.load
-    (get_local $0)
-   )
-  )
-  (set_local $4
-   (i32.load
-    (get_local $1)
+    (block $~lib/internal/itoa/DIGITS|inlined.0 (result i32)
+     (i32.const 1320)
+    )
    )
   )
-  (if
-   (i32.eqz
-    (get_local $3)
-   )
-   (return
-    (i32.eqz
-     (get_local $4)
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.ge_u
+      (get_local $1)
+      (i32.const 10000)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.div_u
+         (get_local $1)
+         (i32.const 10000)
+        )
+       )
+       (set_local $5
+        (i32.rem_u
+         (get_local $1)
+         (i32.const 10000)
+        )
+       )
+       (set_local $1
+        (get_local $4)
+       )
+       (set_local $6
+        (i32.div_u
+         (get_local $5)
+         (i32.const 100)
+        )
+       )
+       (set_local $7
+        (i32.rem_u
+         (get_local $5)
+         (i32.const 100)
+        )
+       )
+       (set_local $8
+        (block $~lib/internal/arraybuffer/loadUnsafe<u32,u64>|inlined.0 (result i64)
+         (i64.load32_u offset=8
+          (i32.add
+           (get_local $3)
+           (i32.shl
+            (get_local $6)
+            (i32.const 2)
+           )
+          )
+         )
+        )
+       )
+       (set_local $9
+        (block $~lib/internal/arraybuffer/loadUnsafe<u32,u64>|inlined.1 (result i64)
+         (i64.load32_u offset=8
+          (i32.add
+           (get_local $3)
+           (i32.shl
+            (get_local $7)
+            (i32.const 2)
+           )
+          )
+         )
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 4)
+        )
+       )
+       (i64.store offset=4
+        (i32.add
+         (get_local $0)
+         (i32.shl
+          (get_local $2)
+          (i32.const 1)
+         )
+        )
+        (i64.or
+         (get_local $8)
+         (i64.shl
+          (get_local $9)
+          (i64.const 32)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
     )
    )
   )
   (if
-   (i32.eqz
-    (get_local $4)
-   )
-   (return
-    (i32.const 1)
+   (i32.ge_u
+    (get_local $1)
+    (i32.const 100)
    )
-  )
-  (set_local $6
-   (select
-    (tee_local $2
-     (get_local $3)
+   (block
+    (set_local $7
+     (i32.div_u
+      (get_local $1)
+      (i32.const 100)
+     )
     )
-    (tee_local $5
-     (get_local $4)
+    (set_local $6
+     (i32.rem_u
+      (get_local $1)
+      (i32.const 100)
+     )
     )
-    (i32.lt_s
-     (get_local $2)
-     (get_local $5)
+    (set_local $1
+     (get_local $7)
+    )
+    (set_local $2
+     (i32.sub
+      (get_local $2)
+      (i32.const 2)
+     )
+    )
+    (set_local $5
+     (block $~lib/internal/arraybuffer/loadUnsafe<u32,u32>|inlined.1 (result i32)
+      (i32.load offset=8
+       (i32.add
+        (get_local $3)
+        (i32.shl
+         (get_local $6)
+         (i32.const 2)
+        )
+       )
+      )
+     )
+    )
+    (i32.store offset=4
+     (i32.add
+      (get_local $0)
+      (i32.shl
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (get_local $5)
     )
    )
   )
-  (i32.ge_s
-   (call $~lib/internal/string/compareUnsafe
-    (get_local $0)
-    (i32.const 0)
-    (get_local $1)
-    (i32.const 0)
-    (get_local $6)
-   )
-   (i32.const 0)
-  )
- )
- (func $~lib/string/String.__lt (; 32 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
   (if
-   (if (result i32)
-    (tee_local $2
-     (if (result i32)
-      (tee_local $2
-       (i32.eq
-        (get_local $0)
-        (get_local $1)
-       )
-      )
+   (i32.ge_u
+    (get_local $1)
+    (i32.const 10)
+   )
+   (block
+    (set_local $2
+     (i32.sub
       (get_local $2)
-      (i32.eq
-       (get_local $0)
-       (i32.const 0)
+      (i32.const 2)
+     )
+    )
+    (set_local $5
+     (block $~lib/internal/arraybuffer/loadUnsafe<u32,u32>|inlined.2 (result i32)
+      (i32.load offset=8
+       (i32.add
+        (get_local $3)
+        (i32.shl
+         (get_local $1)
+         (i32.const 2)
+        )
+       )
       )
      )
     )
-    (get_local $2)
-    (i32.eq
-     (get_local $1)
-     (i32.const 0)
+    (i32.store offset=4
+     (i32.add
+      (get_local $0)
+      (i32.shl
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (get_local $5)
     )
    )
-   (return
-    (i32.const 0)
-   )
-  )
-  (set_local $3
-   (i32.load
-    (get_local $0)
-   )
-  )
-  (set_local $4
-   (i32.load
-    (get_local $1)
+   (block
+    (set_local $2
+     (i32.sub
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (set_local $5
+     (i32.add
+      (i32.const 48)
+      (get_local $1)
+     )
+    )
+    (i32.store16 offset=4
+     (i32.add
+      (get_local $0)
+      (i32.shl
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (get_local $5)
+    )
    )
   )
+ )
+ (func $~lib/internal/itoa/itoa32 (; 36 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
   (if
    (i32.eqz
-    (get_local $4)
+    (get_local $0)
    )
    (return
+    (i32.const 552)
+   )
+  )
+  (set_local $1
+   (i32.lt_s
+    (get_local $0)
     (i32.const 0)
    )
   )
   (if
-   (i32.eqz
-    (get_local $3)
-   )
-   (return
-    (i32.const 1)
+   (get_local $1)
+   (set_local $0
+    (i32.sub
+     (i32.const 0)
+     (get_local $0)
+    )
    )
   )
-  (set_local $6
-   (select
-    (tee_local $2
-     (get_local $3)
-    )
-    (tee_local $5
-     (get_local $4)
-    )
-    (i32.lt_s
-     (get_local $2)
-     (get_local $5)
+  (set_local $2
+   (i32.add
+    (call $~lib/internal/itoa/decimalCountU32
+     (get_local $0)
     )
+    (get_local $1)
    )
   )
-  (i32.lt_s
-   (call $~lib/internal/string/compareUnsafe
+  (set_local $3
+   (call $~lib/internal/string/allocateUnsafe
+    (get_local $2)
+   )
+  )
+  (block $~lib/internal/itoa/utoa32_core|inlined.0
+   (call $~lib/internal/itoa/utoa32_lut
+    (get_local $3)
     (get_local $0)
-    (i32.const 0)
-    (get_local $1)
-    (i32.const 0)
-    (get_local $6)
+    (get_local $2)
    )
-   (i32.const 0)
   )
- )
- (func $~lib/string/String.__lte (; 33 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
   (if
-   (i32.eq
-    (get_local $0)
-    (get_local $1)
+   (get_local $1)
+   (i32.store16 offset=4
+    (get_local $3)
+    (i32.const 45)
    )
-   (return
-    (i32.const 1)
+  )
+  (get_local $3)
+ )
+ (func $~lib/internal/itoa/itoa<i32> (; 37 ;) (type $ii) (param $0 i32) (result i32)
+  (return
+   (call $~lib/internal/itoa/itoa32
+    (get_local $0)
    )
   )
+ )
+ (func $~lib/internal/dtoa/formatNonFinite (; 38 ;) (type $Fi) (param $0 f64) (result i32)
   (if
-   (if (result i32)
-    (tee_local $2
-     (i32.eq
+   (i32.and
+    (block $~lib/builtins/isNaN<f64>|inlined.1 (result i32)
+     (f64.ne
+      (get_local $0)
       (get_local $0)
-      (i32.const 0)
      )
     )
-    (get_local $2)
-    (i32.eq
-     (get_local $1)
-     (i32.const 0)
-    )
+    (i32.const 1)
    )
    (return
-    (i32.const 0)
+    (i32.const 1344)
+   )
+  )
+  (if (result i32)
+   (f64.lt
+    (get_local $0)
+    (f64.const 0)
+   )
+   (i32.const 1360)
+   (i32.const 1384)
+  )
+ )
+ (func $~lib/internal/dtoa/umul128 (; 39 ;) (type $III) (param $0 i64) (param $1 i64) (result i64)
+  (local $2 i64)
+  (local $3 i64)
+  (local $4 i64)
+  (local $5 i64)
+  (local $6 i64)
+  (local $7 i64)
+  (local $8 i64)
+  (local $9 i64)
+  (local $10 i64)
+  (local $11 i64)
+  (set_local $2
+   (i64.and
+    (get_local $0)
+    (i64.const 4294967295)
    )
   )
   (set_local $3
-   (i32.load
+   (i64.shr_u
     (get_local $0)
+    (i64.const 32)
    )
   )
   (set_local $4
-   (i32.load
+   (i64.and
     (get_local $1)
+    (i64.const 4294967295)
    )
   )
-  (if
-   (i32.eqz
+  (set_local $5
+   (i64.shr_u
+    (get_local $1)
+    (i64.const 32)
+   )
+  )
+  (set_local $6
+   (i64.mul
+    (get_local $2)
     (get_local $4)
    )
-   (return
-    (i32.eqz
-     (get_local $3)
-    )
+  )
+  (set_local $7
+   (i64.mul
+    (get_local $2)
+    (get_local $5)
    )
   )
-  (if
-   (i32.eqz
+  (set_local $8
+   (i64.mul
     (get_local $3)
+    (get_local $4)
    )
-   (return
-    (i32.const 1)
+  )
+  (set_local $9
+   (i64.mul
+    (get_local $3)
+    (get_local $5)
    )
   )
-  (set_local $6
-   (select
-    (tee_local $2
-     (get_local $3)
+  (set_local $10
+   (i64.add
+    (get_local $8)
+    (i64.shr_u
+     (get_local $6)
+     (i64.const 32)
     )
-    (tee_local $5
-     (get_local $4)
-    )
-    (i32.lt_s
-     (get_local $2)
-     (get_local $5)
-    )
-   )
-  )
-  (i32.le_s
-   (call $~lib/internal/string/compareUnsafe
-    (get_local $0)
-    (i32.const 0)
-    (get_local $1)
-    (i32.const 0)
-    (get_local $6)
    )
-   (i32.const 0)
   )
- )
- (func $~lib/string/String#repeat (; 34 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (if
-   (i32.eqz
-    (i32.ne
-     (get_local $0)
-     (i32.const 0)
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 80)
-     (i32.const 385)
-     (i32.const 4)
+  (set_local $11
+   (i64.add
+    (get_local $7)
+    (i64.and
+     (get_local $10)
+     (i64.const 4294967295)
     )
-    (unreachable)
-   )
-  )
-  (set_local $2
-   (i32.load
-    (get_local $0)
    )
   )
-  (if
-   (if (result i32)
-    (tee_local $3
-     (i32.lt_s
-      (get_local $1)
-      (i32.const 0)
-     )
-    )
-    (get_local $3)
-    (i32.gt_s
-     (i32.mul
-      (get_local $2)
-      (get_local $1)
-     )
-     (i32.shl
-      (i32.const 1)
-      (i32.const 28)
+  (set_global $~lib/internal/dtoa/_hi
+   (i64.add
+    (i64.add
+     (get_local $9)
+     (i64.shr_u
+      (get_local $10)
+      (i64.const 32)
      )
     )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 80)
-     (i32.const 390)
-     (i32.const 6)
+    (i64.shr_u
+     (get_local $11)
+     (i64.const 32)
     )
-    (unreachable)
    )
   )
-  (if
-   (if (result i32)
-    (tee_local $3
-     (i32.eq
-      (get_local $1)
-      (i32.const 0)
-     )
-    )
-    (get_local $3)
-    (i32.eqz
-     (get_local $2)
-    )
+  (i64.or
+   (i64.shl
+    (get_local $11)
+    (i64.const 32)
    )
-   (return
-    (i32.const 256)
+   (i64.and
+    (get_local $6)
+    (i64.const 4294967295)
    )
   )
-  (if
-   (i32.eq
-    (get_local $1)
-    (i32.const 1)
-   )
-   (return
+ )
+ (func $~lib/internal/dtoa/mulShift64 (; 40 ;) (type $IIIiI) (param $0 i64) (param $1 i64) (param $2 i64) (param $3 i32) (result i64)
+  (local $4 i64)
+  (local $5 i64)
+  (local $6 i64)
+  (local $7 i64)
+  (local $8 i64)
+  (local $9 i32)
+  (drop
+   (call $~lib/internal/dtoa/umul128
     (get_local $0)
+    (get_local $1)
    )
   )
   (set_local $4
-   (call $~lib/internal/string/allocateUnsafe
-    (i32.mul
-     (get_local $2)
-     (get_local $1)
-    )
+   (get_global $~lib/internal/dtoa/_hi)
+  )
+  (set_local $5
+   (call $~lib/internal/dtoa/umul128
+    (get_local $0)
+    (get_local $2)
    )
   )
-  (call $~lib/internal/string/repeatUnsafe
-   (get_local $4)
-   (i32.const 0)
-   (get_local $0)
-   (get_local $1)
+  (set_local $6
+   (get_global $~lib/internal/dtoa/_hi)
   )
-  (get_local $4)
- )
- (func $~lib/internal/itoa/decimalCountU32 (; 35 ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (set_local $1
-   (i32.sub
-    (i32.const 32)
-    (i32.clz
-     (get_local $0)
-    )
+  (set_local $7
+   (i64.add
+    (get_local $5)
+    (get_local $4)
    )
   )
-  (set_local $2
-   (i32.shr_u
-    (i32.mul
-     (get_local $1)
-     (i32.const 1233)
+  (set_local $8
+   (i64.add
+    (get_local $6)
+    (i64.extend_u/i32
+     (i64.lt_u
+      (get_local $7)
+      (get_local $5)
+     )
     )
-    (i32.const 12)
    )
   )
-  (set_local $3
-   (i32.load
-    (block $~lib/internal/itoa/POWERS10|inlined.0 (result i32)
-     (i32.const 840)
-    )
+  (set_local $9
+   (i32.sub
+    (get_local $3)
+    (i32.const 64)
    )
   )
-  (set_local $4
-   (block $~lib/internal/arraybuffer/loadUnsafe<u32,u32>|inlined.0 (result i32)
-    (i32.load offset=8
-     (i32.add
-      (get_local $3)
-      (i32.shl
-       (get_local $2)
-       (i32.const 2)
-      )
+  (i64.or
+   (i64.shl
+    (get_local $8)
+    (i64.sub
+     (i64.const 64)
+     (i64.extend_s/i32
+      (get_local $9)
      )
     )
    )
-  )
-  (set_local $2
-   (i32.sub
-    (get_local $2)
-    (i32.lt_u
-     (get_local $0)
-     (get_local $4)
+   (i64.shr_u
+    (get_local $7)
+    (i64.extend_s/i32
+     (get_local $9)
     )
    )
   )
-  (i32.add
-   (get_local $2)
-   (i32.const 1)
-  )
  )
- (func $~lib/internal/itoa/utoa32_lut (; 36 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i64)
-  (local $9 i64)
-  (set_local $3
-   (i32.load
-    (block $~lib/internal/itoa/DIGITS|inlined.0 (result i32)
-     (i32.const 1360)
-    )
-   )
+ (func $~lib/internal/dtoa/pow5Factor (; 41 ;) (type $Ii) (param $0 i64) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.const 0)
   )
   (block $break|0
    (loop $continue|0
     (if
-     (i32.ge_u
-      (get_local $1)
-      (i32.const 10000)
+     (i64.eqz
+      (i64.rem_u
+       (get_local $0)
+       (i64.const 5)
+      )
      )
      (block
       (block
-       (set_local $4
-        (i32.div_u
-         (get_local $1)
-         (i32.const 10000)
+       (set_local $0
+        (i64.div_u
+         (get_local $0)
+         (i64.const 5)
         )
        )
-       (set_local $5
-        (i32.rem_u
+       (set_local $1
+        (i32.add
          (get_local $1)
-         (i32.const 10000)
+         (i32.const 1)
         )
        )
-       (set_local $1
-        (get_local $4)
-       )
-       (set_local $6
-        (i32.div_u
-         (get_local $5)
-         (i32.const 100)
-        )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/dtoa/ryu64 (; 42 ;) (type $Iiv) (param $0 i64) (param $1 i32)
+  (local $2 i32)
+  (local $3 i64)
+  (local $4 i32)
+  (local $5 i64)
+  (local $6 i32)
+  (local $7 i64)
+  (local $8 i64)
+  (local $9 i64)
+  (local $10 i64)
+  (local $11 i32)
+  (local $12 i32)
+  (local $13 i32)
+  (local $14 i32)
+  (local $15 i32)
+  (local $16 i32)
+  (local $17 i64)
+  (local $18 i64)
+  (local $19 i32)
+  (local $20 i32)
+  (local $21 i32)
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (block
+    (set_local $2
+     (i32.sub
+      (i32.sub
+       (i32.sub
+        (i32.const 1)
+        (i32.const 1023)
        )
-       (set_local $7
-        (i32.rem_u
-         (get_local $5)
-         (i32.const 100)
-        )
-       )
-       (set_local $8
-        (block $~lib/internal/arraybuffer/loadUnsafe<u32,u64>|inlined.0 (result i64)
-         (i64.load32_u offset=8
-          (i32.add
-           (get_local $3)
-           (i32.shl
-            (get_local $6)
-            (i32.const 2)
-           )
-          )
-         )
-        )
-       )
-       (set_local $9
-        (block $~lib/internal/arraybuffer/loadUnsafe<u32,u64>|inlined.1 (result i64)
-         (i64.load32_u offset=8
-          (i32.add
-           (get_local $3)
-           (i32.shl
-            (get_local $7)
-            (i32.const 2)
-           )
-          )
-         )
-        )
-       )
-       (set_local $2
-        (i32.sub
-         (get_local $2)
-         (i32.const 4)
-        )
-       )
-       (i64.store offset=4
-        (i32.add
-         (get_local $0)
-         (i32.shl
-          (get_local $2)
-          (i32.const 1)
-         )
-        )
-        (i64.or
-         (get_local $8)
-         (i64.shl
-          (get_local $9)
-          (i64.const 32)
-         )
-        )
+       (i32.const 52)
+      )
+      (i32.const 2)
+     )
+    )
+    (set_local $3
+     (get_local $0)
+    )
+   )
+   (block
+    (set_local $2
+     (i32.sub
+      (i32.sub
+       (i32.sub
+        (get_local $1)
+        (i32.const 1023)
        )
+       (i32.const 52)
       )
-      (br $continue|0)
+      (i32.const 2)
+     )
+    )
+    (set_local $3
+     (i64.or
+      (i64.shl
+       (i64.const 1)
+       (i64.const 52)
+      )
+      (get_local $0)
      )
     )
    )
   )
-  (if
-   (i32.ge_u
-    (get_local $1)
-    (i32.const 100)
+  (set_local $4
+   (i64.eqz
+    (i64.and
+     (get_local $3)
+     (i64.const 1)
+    )
    )
-   (block
-    (set_local $7
-     (i32.div_u
+  )
+  (set_local $5
+   (i64.shl
+    (get_local $3)
+    (i64.const 2)
+   )
+  )
+  (set_local $7
+   (i64.extend_u/i32
+    (if (result i32)
+     (tee_local $6
+      (i64.ne
+       (get_local $0)
+       (i64.const 0)
+      )
+     )
+     (get_local $6)
+     (i32.le_s
       (get_local $1)
-      (i32.const 100)
+      (i32.const 1)
      )
     )
+   )
+  )
+  (set_local $12
+   (i32.const 0)
+  )
+  (set_local $13
+   (i32.const 0)
+  )
+  (if
+   (i32.ge_s
+    (get_local $2)
+    (i32.const 0)
+   )
+   (block
     (set_local $6
-     (i32.rem_u
-      (get_local $1)
-      (i32.const 100)
+     (i32.sub
+      (block $~lib/internal/dtoa/log10Pow2|inlined.0 (result i32)
+       (i32.shr_u
+        (i32.mul
+         (get_local $2)
+         (i32.const 78913)
+        )
+        (i32.const 18)
+       )
+      )
+      (i32.gt_s
+       (get_local $2)
+       (i32.const 3)
+      )
      )
     )
-    (set_local $1
-     (get_local $7)
+    (set_local $11
+     (get_local $6)
     )
-    (set_local $2
+    (set_local $14
      (i32.sub
-      (get_local $2)
-      (i32.const 2)
-     )
-    )
-    (set_local $5
-     (block $~lib/internal/arraybuffer/loadUnsafe<u32,u32>|inlined.1 (result i32)
-      (i32.load offset=8
+      (i32.add
        (i32.add
-        (get_local $3)
-        (i32.shl
+        (i32.add
+         (i32.sub
+          (i32.const 0)
+          (get_local $2)
+         )
          (get_local $6)
-         (i32.const 2)
+        )
+        (get_global $~lib/internal/dtoa/POW5_INV_BITCOUNT)
+       )
+       (block $~lib/internal/dtoa/pow5bits|inlined.0 (result i32)
+        (i32.add
+         (i32.shr_u
+          (i32.mul
+           (get_local $6)
+           (i32.const 1217359)
+          )
+          (i32.const 19)
+         )
+         (i32.const 1)
         )
        )
       )
+      (i32.const 1)
      )
     )
-    (i32.store offset=4
-     (i32.add
-      (get_local $0)
-      (i32.shl
-       (get_local $2)
-       (i32.const 1)
+    (set_local $15
+     (i32.load
+      (block $~lib/internal/dtoa/POW5_INV_SPLIT|inlined.0 (result i32)
+       (i32.const 9600)
       )
      )
-     (get_local $5)
     )
-   )
-  )
-  (if
-   (i32.ge_u
-    (get_local $1)
-    (i32.const 10)
-   )
-   (block
-    (set_local $2
-     (i32.sub
-      (get_local $2)
-      (i32.const 2)
+    (set_local $17
+     (block $~lib/internal/arraybuffer/loadUnsafe<u64,u64>|inlined.0 (result i64)
+      (set_local $16
+       (i32.shl
+        (get_local $6)
+        (i32.const 1)
+       )
+      )
+      (i64.load offset=8
+       (i32.add
+        (get_local $15)
+        (i32.shl
+         (get_local $16)
+         (i32.const 3)
+        )
+       )
+      )
      )
     )
-    (set_local $5
-     (block $~lib/internal/arraybuffer/loadUnsafe<u32,u32>|inlined.2 (result i32)
-      (i32.load offset=8
+    (set_local $18
+     (block $~lib/internal/arraybuffer/loadUnsafe<u64,u64>|inlined.1 (result i64)
+      (set_local $16
        (i32.add
-        (get_local $3)
         (i32.shl
-         (get_local $1)
-         (i32.const 2)
+         (get_local $6)
+         (i32.const 1)
+        )
+        (i32.const 1)
+       )
+      )
+      (i64.load offset=8
+       (i32.add
+        (get_local $15)
+        (i32.shl
+         (get_local $16)
+         (i32.const 3)
         )
        )
       )
      )
     )
-    (i32.store offset=4
-     (i32.add
-      (get_local $0)
-      (i32.shl
-       (get_local $2)
-       (i32.const 1)
+    (set_local $8
+     (call $~lib/internal/dtoa/mulShift64
+      (get_local $5)
+      (get_local $17)
+      (get_local $18)
+      (get_local $14)
+     )
+    )
+    (set_local $9
+     (call $~lib/internal/dtoa/mulShift64
+      (i64.add
+       (get_local $5)
+       (i64.const 2)
+      )
+      (get_local $17)
+      (get_local $18)
+      (get_local $14)
+     )
+    )
+    (set_local $10
+     (call $~lib/internal/dtoa/mulShift64
+      (i64.sub
+       (i64.sub
+        (get_local $5)
+        (i64.const 1)
+       )
+       (get_local $7)
+      )
+      (get_local $17)
+      (get_local $18)
+      (get_local $14)
+     )
+    )
+    (if
+     (i32.le_s
+      (get_local $6)
+      (i32.const 21)
+     )
+     (if
+      (i64.eqz
+       (i64.rem_u
+        (get_local $5)
+        (i64.const 5)
+       )
+      )
+      (set_local $13
+       (i32.ge_s
+        (call $~lib/internal/dtoa/pow5Factor
+         (get_local $5)
+        )
+        (get_local $6)
+       )
+      )
+      (if
+       (get_local $4)
+       (set_local $12
+        (i32.ge_s
+         (call $~lib/internal/dtoa/pow5Factor
+          (i64.sub
+           (i64.sub
+            (get_local $5)
+            (i64.const 1)
+           )
+           (get_local $7)
+          )
+         )
+         (get_local $6)
+        )
+       )
+       (set_local $9
+        (i64.sub
+         (get_local $9)
+         (i64.extend_u/i32
+          (i32.ge_s
+           (call $~lib/internal/dtoa/pow5Factor
+            (i64.add
+             (get_local $5)
+             (i64.const 2)
+            )
+           )
+           (get_local $6)
+          )
+         )
+        )
+       )
       )
      )
-     (get_local $5)
     )
    )
    (block
-    (set_local $2
+    (set_local $15
      (i32.sub
-      (get_local $2)
-      (i32.const 1)
+      (block $~lib/internal/dtoa/log10Pow5|inlined.0 (result i32)
+       (set_local $15
+        (i32.sub
+         (i32.const 0)
+         (get_local $2)
+        )
+       )
+       (i32.shr_u
+        (i32.mul
+         (get_local $15)
+         (i32.const 732923)
+        )
+        (i32.const 20)
+       )
+      )
+      (i32.gt_s
+       (i32.sub
+        (i32.const 0)
+        (get_local $2)
+       )
+       (i32.const 1)
+      )
      )
     )
-    (set_local $5
+    (set_local $11
      (i32.add
-      (get_global $~lib/internal/string/CharCode._0)
-      (get_local $1)
+      (get_local $15)
+      (get_local $2)
      )
     )
-    (i32.store16 offset=4
-     (i32.add
-      (get_local $0)
-      (i32.shl
+    (set_local $14
+     (i32.sub
+      (i32.sub
+       (i32.const 0)
        (get_local $2)
-       (i32.const 1)
       )
+      (get_local $15)
      )
-     (get_local $5)
-    )
-   )
-  )
- )
- (func $~lib/internal/itoa/itoa32 (; 37 ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (if
-   (i32.eqz
-    (get_local $0)
-   )
-   (return
-    (i32.const 480)
-   )
-  )
-  (set_local $1
-   (i32.lt_s
-    (get_local $0)
-    (i32.const 0)
-   )
-  )
-  (if
-   (get_local $1)
-   (set_local $0
-    (i32.sub
-     (i32.const 0)
-     (get_local $0)
-    )
-   )
-  )
-  (set_local $2
-   (i32.add
-    (call $~lib/internal/itoa/decimalCountU32
-     (get_local $0)
     )
-    (get_local $1)
-   )
-  )
-  (set_local $3
-   (call $~lib/internal/string/allocateUnsafe
-    (get_local $2)
-   )
-  )
-  (block $~lib/internal/itoa/utoa32_core|inlined.0
-   (call $~lib/internal/itoa/utoa32_lut
-    (get_local $3)
-    (get_local $0)
-    (get_local $2)
-   )
-  )
-  (if
-   (get_local $1)
-   (i32.store16 offset=4
-    (get_local $3)
-    (get_global $~lib/internal/string/CharCode.MINUS)
-   )
-  )
-  (get_local $3)
- )
- (func $~lib/internal/itoa/utoa32 (; 38 ;) (type $ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (local $2 i32)
-  (if
-   (i32.eqz
-    (get_local $0)
-   )
-   (return
-    (i32.const 480)
-   )
-  )
-  (set_local $1
-   (call $~lib/internal/itoa/decimalCountU32
-    (get_local $0)
-   )
-  )
-  (set_local $2
-   (call $~lib/internal/string/allocateUnsafe
-    (get_local $1)
-   )
-  )
-  (block $~lib/internal/itoa/utoa32_core|inlined.1
-   (call $~lib/internal/itoa/utoa32_lut
-    (get_local $2)
-    (get_local $0)
-    (get_local $1)
-   )
-  )
-  (get_local $2)
- )
- (func $~lib/internal/itoa/decimalCountU64 (; 39 ;) (type $Ii) (param $0 i64) (result i32)
-  (local $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i64)
-  (set_local $1
-   (i32.sub
-    (i32.const 64)
-    (i32.wrap/i64
-     (i64.clz
-      (get_local $0)
+    (set_local $6
+     (i32.add
+      (i32.sub
+       (get_local $15)
+       (block $~lib/internal/dtoa/pow5bits|inlined.1 (result i32)
+        (i32.add
+         (i32.shr_u
+          (i32.mul
+           (get_local $14)
+           (i32.const 1217359)
+          )
+          (i32.const 19)
+         )
+         (i32.const 1)
+        )
+       )
+      )
+      (get_global $~lib/internal/dtoa/POW5_BITCOUNT)
      )
     )
-   )
-  )
-  (set_local $2
-   (i32.shr_u
-    (i32.mul
-     (get_local $1)
-     (i32.const 1233)
-    )
-    (i32.const 12)
-   )
-  )
-  (set_local $3
-   (i32.load
-    (block $~lib/internal/itoa/POWERS10|inlined.1 (result i32)
-     (i32.const 1704)
+    (set_local $16
+     (i32.load
+      (block $~lib/internal/dtoa/POW5_SPLIT|inlined.0 (result i32)
+       (i32.const 17800)
+      )
+     )
     )
-   )
-  )
-  (set_local $5
-   (block $~lib/internal/arraybuffer/loadUnsafe<u32,u64>|inlined.2 (result i64)
-    (set_local $4
-     (i32.sub
-      (get_local $2)
-      (i32.const 10)
+    (set_local $18
+     (block $~lib/internal/arraybuffer/loadUnsafe<u64,u64>|inlined.2 (result i64)
+      (set_local $19
+       (i32.shl
+        (get_local $14)
+        (i32.const 1)
+       )
+      )
+      (i64.load offset=8
+       (i32.add
+        (get_local $16)
+        (i32.shl
+         (get_local $19)
+         (i32.const 3)
+        )
+       )
+      )
      )
     )
-    (i64.load32_u offset=8
-     (i32.add
-      (get_local $3)
-      (i32.shl
-       (get_local $4)
-       (i32.const 2)
+    (set_local $17
+     (block $~lib/internal/arraybuffer/loadUnsafe<u64,u64>|inlined.3 (result i64)
+      (set_local $19
+       (i32.add
+        (i32.shl
+         (get_local $14)
+         (i32.const 1)
+        )
+        (i32.const 1)
+       )
+      )
+      (i64.load offset=8
+       (i32.add
+        (get_local $16)
+        (i32.shl
+         (get_local $19)
+         (i32.const 3)
+        )
+       )
       )
      )
     )
-   )
-  )
-  (set_local $2
-   (i32.sub
-    (get_local $2)
-    (i64.lt_u
-     (get_local $0)
-     (i64.mul
-      (i64.const 10000000000)
+    (set_local $8
+     (call $~lib/internal/dtoa/mulShift64
       (get_local $5)
+      (get_local $18)
+      (get_local $17)
+      (get_local $6)
      )
     )
-   )
-  )
-  (i32.add
-   (get_local $2)
-   (i32.const 1)
-  )
- )
- (func $~lib/internal/itoa/utoa64_lut (; 40 ;) (type $iIiv) (param $0 i32) (param $1 i64) (param $2 i32)
-  (local $3 i32)
-  (local $4 i64)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (local $9 i32)
-  (local $10 i32)
-  (local $11 i32)
-  (local $12 i64)
-  (local $13 i64)
-  (set_local $3
-   (i32.load
-    (block $~lib/internal/itoa/DIGITS|inlined.1 (result i32)
-     (i32.const 2224)
+    (set_local $9
+     (call $~lib/internal/dtoa/mulShift64
+      (i64.add
+       (get_local $5)
+       (i64.const 2)
+      )
+      (get_local $18)
+      (get_local $17)
+      (get_local $6)
+     )
+    )
+    (set_local $10
+     (call $~lib/internal/dtoa/mulShift64
+      (i64.sub
+       (i64.sub
+        (get_local $5)
+        (i64.const 1)
+       )
+       (get_local $7)
+      )
+      (get_local $18)
+      (get_local $17)
+      (get_local $6)
+     )
     )
-   )
-  )
-  (block $break|0
-   (loop $continue|0
     (if
-     (i64.ge_u
-      (get_local $1)
-      (i64.const 100000000)
+     (i32.le_s
+      (get_local $15)
+      (i32.const 1)
      )
      (block
-      (block
-       (set_local $4
-        (i64.div_u
-         (get_local $1)
-         (i64.const 100000000)
-        )
-       )
-       (set_local $5
-        (i32.wrap/i64
-         (i64.sub
-          (get_local $1)
-          (i64.mul
-           (get_local $4)
-           (i64.const 100000000)
-          )
-         )
+      (set_local $13
+       (i32.const 1)
+      )
+      (if
+       (get_local $4)
+       (set_local $12
+        (i64.eq
+         (get_local $7)
+         (i64.const 1)
         )
        )
-       (set_local $1
-        (get_local $4)
-       )
-       (set_local $6
-        (i32.div_u
-         (get_local $5)
-         (i32.const 10000)
+       (set_local $9
+        (i64.sub
+         (get_local $9)
+         (i64.const 1)
         )
        )
-       (set_local $7
-        (i32.rem_u
+      )
+     )
+     (if
+      (i32.lt_s
+       (get_local $15)
+       (i32.const 63)
+      )
+      (set_local $13
+       (i64.eqz
+        (i64.and
          (get_local $5)
-         (i32.const 10000)
+         (i64.sub
+          (i64.shl
+           (i64.const 1)
+           (i64.extend_s/i32
+            (get_local $15)
+           )
+          )
+          (i64.const 1)
+         )
         )
        )
-       (set_local $8
-        (i32.div_u
-         (get_local $6)
-         (i32.const 100)
+      )
+     )
+    )
+   )
+  )
+  (set_local $20
+   (i32.const 0)
+  )
+  (set_local $21
+   (i32.const 0)
+  )
+  (if
+   (if (result i32)
+    (get_local $12)
+    (get_local $12)
+    (get_local $13)
+   )
+   (block
+    (block $break|0
+     (loop $continue|0
+      (if
+       (i64.gt_u
+        (i64.div_u
+         (get_local $9)
+         (i64.const 10)
         )
-       )
-       (set_local $9
-        (i32.rem_u
-         (get_local $6)
-         (i32.const 100)
+        (i64.div_u
+         (get_local $10)
+         (i64.const 10)
         )
        )
-       (set_local $10
-        (i32.div_u
-         (get_local $7)
-         (i32.const 100)
+       (block
+        (block
+         (set_local $12
+          (if (result i32)
+           (get_local $12)
+           (i64.eqz
+            (i64.rem_u
+             (get_local $10)
+             (i64.const 10)
+            )
+           )
+           (get_local $12)
+          )
+         )
+         (set_local $13
+          (if (result i32)
+           (get_local $13)
+           (i32.eqz
+            (get_local $21)
+           )
+           (get_local $13)
+          )
+         )
+         (set_local $21
+          (i32.wrap/i64
+           (i64.rem_u
+            (get_local $8)
+            (i64.const 10)
+           )
+          )
+         )
+         (set_local $8
+          (i64.div_u
+           (get_local $8)
+           (i64.const 10)
+          )
+         )
+         (set_local $9
+          (i64.div_u
+           (get_local $9)
+           (i64.const 10)
+          )
+         )
+         (set_local $10
+          (i64.div_u
+           (get_local $10)
+           (i64.const 10)
+          )
+         )
+         (set_local $20
+          (i32.add
+           (get_local $20)
+           (i32.const 1)
+          )
+         )
         )
+        (br $continue|0)
        )
-       (set_local $11
-        (i32.rem_u
-         (get_local $7)
-         (i32.const 100)
+      )
+     )
+    )
+    (if
+     (get_local $12)
+     (block $break|1
+      (loop $continue|1
+       (if
+        (i64.eqz
+         (i64.rem_u
+          (get_local $10)
+          (i64.const 10)
+         )
         )
-       )
-       (set_local $12
-        (block $~lib/internal/arraybuffer/loadUnsafe<u32,u64>|inlined.3 (result i64)
-         (i64.load32_u offset=8
-          (i32.add
-           (get_local $3)
-           (i32.shl
+        (block
+         (block
+          (set_local $13
+           (if (result i32)
+            (get_local $13)
+            (i32.eqz
+             (get_local $21)
+            )
+            (get_local $13)
+           )
+          )
+          (set_local $21
+           (i32.wrap/i64
+            (i64.rem_u
+             (get_local $8)
+             (i64.const 10)
+            )
+           )
+          )
+          (set_local $8
+           (i64.div_u
+            (get_local $8)
+            (i64.const 10)
+           )
+          )
+          (set_local $9
+           (i64.div_u
+            (get_local $9)
+            (i64.const 10)
+           )
+          )
+          (set_local $10
+           (i64.div_u
             (get_local $10)
-            (i32.const 2)
+            (i64.const 10)
+           )
+          )
+          (set_local $20
+           (i32.add
+            (get_local $20)
+            (i32.const 1)
            )
           )
          )
+         (br $continue|1)
         )
        )
-       (set_local $13
-        (block $~lib/internal/arraybuffer/loadUnsafe<u32,u64>|inlined.4 (result i64)
-         (i64.load32_u offset=8
-          (i32.add
-           (get_local $3)
-           (i32.shl
-            (get_local $11)
-            (i32.const 2)
+      )
+     )
+    )
+    (if
+     (if (result i32)
+      (tee_local $16
+       (if (result i32)
+        (get_local $13)
+        (i32.eq
+         (get_local $21)
+         (i32.const 5)
+        )
+        (get_local $13)
+       )
+      )
+      (i64.eqz
+       (i64.and
+        (get_local $8)
+        (i64.const 1)
+       )
+      )
+      (get_local $16)
+     )
+     (set_local $21
+      (i32.const 4)
+     )
+    )
+    (set_global $~lib/internal/dtoa/_output
+     (i64.add
+      (get_local $8)
+      (i64.extend_u/i32
+       (if (result i32)
+        (tee_local $16
+         (if (result i32)
+          (tee_local $16
+           (i64.eq
+            (get_local $8)
+            (get_local $10)
+           )
+          )
+          (if (result i32)
+           (tee_local $16
+            (i32.eqz
+             (get_local $4)
+            )
+           )
+           (get_local $16)
+           (i32.eqz
+            (get_local $12)
            )
           )
+          (get_local $16)
          )
         )
-       )
-       (set_local $2
-        (i32.sub
-         (get_local $2)
-         (i32.const 4)
+        (get_local $16)
+        (i32.ge_u
+         (get_local $21)
+         (i32.const 5)
         )
        )
-       (i64.store offset=4
-        (i32.add
-         (get_local $0)
-         (i32.shl
-          (get_local $2)
-          (i32.const 1)
-         )
+      )
+     )
+    )
+   )
+   (block
+    (block $break|2
+     (loop $continue|2
+      (if
+       (i64.gt_u
+        (i64.div_u
+         (get_local $9)
+         (i64.const 10)
         )
-        (i64.or
-         (get_local $12)
-         (i64.shl
-          (get_local $13)
-          (i64.const 32)
-         )
+        (i64.div_u
+         (get_local $10)
+         (i64.const 10)
         )
        )
-       (set_local $12
-        (block $~lib/internal/arraybuffer/loadUnsafe<u32,u64>|inlined.5 (result i64)
-         (i64.load32_u offset=8
-          (i32.add
-           (get_local $3)
-           (i32.shl
+       (block
+        (block
+         (set_local $21
+          (i32.wrap/i64
+           (i64.rem_u
             (get_local $8)
-            (i32.const 2)
+            (i64.const 10)
            )
           )
          )
-        )
-       )
-       (set_local $13
-        (block $~lib/internal/arraybuffer/loadUnsafe<u32,u64>|inlined.6 (result i64)
-         (i64.load32_u offset=8
+         (set_local $8
+          (i64.div_u
+           (get_local $8)
+           (i64.const 10)
+          )
+         )
+         (set_local $9
+          (i64.div_u
+           (get_local $9)
+           (i64.const 10)
+          )
+         )
+         (set_local $10
+          (i64.div_u
+           (get_local $10)
+           (i64.const 10)
+          )
+         )
+         (set_local $20
           (i32.add
-           (get_local $3)
-           (i32.shl
-            (get_local $9)
-            (i32.const 2)
-           )
+           (get_local $20)
+           (i32.const 1)
           )
          )
         )
+        (br $continue|2)
+       )
+      )
+     )
+    )
+    (set_global $~lib/internal/dtoa/_output
+     (i64.add
+      (get_local $8)
+      (i64.extend_u/i32
+       (if (result i32)
+        (tee_local $16
+         (i64.eq
+          (get_local $8)
+          (get_local $10)
+         )
+        )
+        (get_local $16)
+        (i32.ge_u
+         (get_local $21)
+         (i32.const 5)
+        )
+       )
+      )
+     )
+    )
+   )
+  )
+  (set_global $~lib/internal/dtoa/_exp10
+   (i32.add
+    (get_local $11)
+    (get_local $20)
+   )
+  )
+ )
+ (func $~lib/internal/dtoa/decimalCount (; 43 ;) (type $Ii) (param $0 i64) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.const 1)
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i64.ge_u
+      (get_local $0)
+      (i64.const 10)
+     )
+     (block
+      (block
+       (set_local $0
+        (i64.div_u
+         (get_local $0)
+         (i64.const 10)
+        )
+       )
+       (set_local $1
+        (i32.add
+         (get_local $1)
+         (i32.const 1)
+        )
        )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/dtoa/writeDigits (; 44 ;) (type $iIiv) (param $0 i32) (param $1 i64) (param $2 i32)
+  (block $break|0
+   (loop $continue|0
+    (if
+     (get_local $2)
+     (block
+      (block
        (set_local $2
         (i32.sub
          (get_local $2)
-         (i32.const 4)
+         (i32.const 1)
         )
        )
-       (i64.store offset=4
+       (i32.store16
         (i32.add
          (get_local $0)
          (i32.shl
@@ -5694,215 +6667,8777 @@
           (i32.const 1)
          )
         )
-        (i64.or
-         (get_local $12)
-         (i64.shl
-          (get_local $13)
-          (i64.const 32)
+        (i32.add
+         (i32.const 48)
+         (i32.wrap/i64
+          (i64.rem_u
+           (get_local $1)
+           (i64.const 10)
+          )
          )
         )
        )
+       (set_local $1
+        (i64.div_u
+         (get_local $1)
+         (i64.const 10)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/dtoa/formatPositional (; 45 ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (if
+   (i32.ge_s
+    (get_local $2)
+    (get_local $1)
+   )
+   (block
+    (set_local $4
+     (call $~lib/internal/string/allocateUnsafe
+      (i32.add
+       (i32.and
+        (get_local $3)
+        (i32.const 1)
+       )
+       (get_local $2)
+      )
+     )
+    )
+    (set_local $5
+     (i32.add
+      (i32.add
+       (get_local $4)
+       (get_global $~lib/internal/string/HEADER_SIZE)
+      )
+      (i32.shl
+       (i32.and
+        (get_local $3)
+        (i32.const 1)
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (block $~lib/memory/memory.copy|inlined.2
+     (set_local $6
+      (i32.shl
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (call $~lib/internal/memory/memmove
+      (get_local $5)
+      (get_local $0)
+      (get_local $6)
+     )
+    )
+    (block $break|0
+     (set_local $6
+      (get_local $1)
+     )
+     (loop $repeat|0
+      (br_if $break|0
+       (i32.eqz
+        (i32.lt_s
+         (get_local $6)
+         (get_local $2)
+        )
+       )
+      )
+      (i32.store16
+       (i32.add
+        (get_local $5)
+        (i32.shl
+         (get_local $6)
+         (i32.const 1)
+        )
+       )
+       (i32.const 48)
+      )
+      (set_local $6
+       (i32.add
+        (get_local $6)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|0)
+     )
+    )
+   )
+   (if
+    (i32.gt_s
+     (get_local $2)
+     (i32.const 0)
+    )
+    (block
+     (set_local $4
+      (call $~lib/internal/string/allocateUnsafe
+       (i32.add
+        (i32.add
+         (i32.and
+          (get_local $3)
+          (i32.const 1)
+         )
+         (get_local $1)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (set_local $5
+      (i32.add
+       (i32.add
+        (get_local $4)
+        (get_global $~lib/internal/string/HEADER_SIZE)
+       )
+       (i32.shl
+        (i32.and
+         (get_local $3)
+         (i32.const 1)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (block $~lib/memory/memory.copy|inlined.3
+      (set_local $6
+       (i32.shl
+        (get_local $2)
+        (i32.const 1)
+       )
+      )
+      (call $~lib/internal/memory/memmove
+       (get_local $5)
+       (get_local $0)
+       (get_local $6)
+      )
+     )
+     (i32.store16
+      (i32.add
+       (get_local $5)
+       (i32.shl
+        (get_local $2)
+        (i32.const 1)
+       )
+      )
+      (i32.const 46)
+     )
+     (block $~lib/memory/memory.copy|inlined.4
+      (set_local $6
+       (i32.add
+        (get_local $5)
+        (i32.shl
+         (i32.add
+          (get_local $2)
+          (i32.const 1)
+         )
+         (i32.const 1)
+        )
+       )
+      )
+      (set_local $7
+       (i32.add
+        (get_local $0)
+        (i32.shl
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (set_local $8
+       (i32.shl
+        (i32.sub
+         (get_local $1)
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (call $~lib/internal/memory/memmove
+       (get_local $6)
+       (get_local $7)
+       (get_local $8)
+      )
+     )
+    )
+    (block
+     (set_local $4
+      (call $~lib/internal/string/allocateUnsafe
+       (i32.add
+        (i32.sub
+         (i32.add
+          (i32.and
+           (get_local $3)
+           (i32.const 1)
+          )
+          (i32.const 2)
+         )
+         (get_local $2)
+        )
+        (get_local $1)
+       )
+      )
+     )
+     (set_local $5
+      (i32.add
+       (i32.add
+        (get_local $4)
+        (get_global $~lib/internal/string/HEADER_SIZE)
+       )
+       (i32.shl
+        (i32.and
+         (get_local $3)
+         (i32.const 1)
+        )
+        (i32.const 1)
+       )
+      )
+     )
+     (i32.store
+      (get_local $5)
+      (i32.or
+       (i32.shl
+        (i32.const 46)
+        (i32.const 16)
+       )
+       (i32.const 48)
+      )
+     )
+     (block $break|1
+      (set_local $8
+       (i32.const 0)
+      )
+      (loop $repeat|1
+       (br_if $break|1
+        (i32.eqz
+         (i32.lt_s
+          (get_local $8)
+          (i32.sub
+           (i32.const 0)
+           (get_local $2)
+          )
+         )
+        )
+       )
+       (i32.store16
+        (i32.add
+         (get_local $5)
+         (i32.shl
+          (i32.add
+           (get_local $8)
+           (i32.const 2)
+          )
+          (i32.const 1)
+         )
+        )
+        (i32.const 48)
+       )
+       (set_local $8
+        (i32.add
+         (get_local $8)
+         (i32.const 1)
+        )
+       )
+       (br $repeat|1)
+      )
+     )
+     (block $~lib/memory/memory.copy|inlined.5
+      (set_local $8
+       (i32.add
+        (get_local $5)
+        (i32.shl
+         (i32.sub
+          (i32.const 2)
+          (get_local $2)
+         )
+         (i32.const 1)
+        )
+       )
+      )
+      (set_local $7
+       (i32.shl
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (call $~lib/internal/memory/memmove
+       (get_local $8)
+       (get_local $0)
+       (get_local $7)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $3)
+    (i32.const 1)
+   )
+   (i32.store16 offset=4
+    (get_local $4)
+    (i32.const 45)
+   )
+  )
+  (get_local $4)
+ )
+ (func $~lib/internal/dtoa/formatExponential (; 46 ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (set_local $5
+   (call $~lib/internal/dtoa/decimalCount
+    (i64.extend_s/i32
+     (select
+      (tee_local $4
+       (get_local $2)
+      )
+      (i32.sub
+       (i32.const 0)
+       (get_local $4)
+      )
+      (i32.gt_s
+       (get_local $4)
+       (i32.const 0)
+      )
+     )
+    )
+   )
+  )
+  (set_local $6
+   (call $~lib/internal/string/allocateUnsafe
+    (i32.add
+     (i32.add
+      (i32.add
+       (i32.add
+        (i32.and
+         (get_local $3)
+         (i32.const 1)
+        )
+        (get_local $1)
+       )
+       (i32.gt_s
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 2)
+     )
+     (get_local $5)
+    )
+   )
+  )
+  (set_local $7
+   (i32.add
+    (get_local $6)
+    (get_global $~lib/internal/string/HEADER_SIZE)
+   )
+  )
+  (if
+   (i32.and
+    (get_local $3)
+    (i32.const 1)
+   )
+   (block
+    (i32.store16
+     (get_local $7)
+     (i32.const 45)
+    )
+    (set_local $7
+     (i32.add
+      (get_local $7)
+      (i32.const 2)
+     )
+    )
+   )
+  )
+  (i32.store16
+   (get_local $7)
+   (i32.load16_u
+    (get_local $0)
+   )
+  )
+  (set_local $7
+   (i32.add
+    (get_local $7)
+    (i32.const 2)
+   )
+  )
+  (if
+   (i32.gt_s
+    (get_local $1)
+    (i32.const 1)
+   )
+   (block
+    (i32.store16
+     (get_local $7)
+     (i32.const 46)
+    )
+    (block $~lib/memory/memory.copy|inlined.6
+     (set_local $4
+      (i32.add
+       (get_local $7)
+       (i32.const 2)
+      )
+     )
+     (set_local $8
+      (i32.add
+       (get_local $0)
+       (i32.const 2)
+      )
+     )
+     (set_local $9
+      (i32.shl
+       (i32.sub
+        (get_local $1)
+        (i32.const 1)
+       )
+       (i32.const 1)
+      )
+     )
+     (call $~lib/internal/memory/memmove
+      (get_local $4)
+      (get_local $8)
+      (get_local $9)
+     )
+    )
+    (set_local $7
+     (i32.add
+      (get_local $7)
+      (i32.shl
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $7)
+   (i32.or
+    (i32.shl
+     (if (result i32)
+      (i32.lt_s
+       (get_local $2)
+       (i32.const 0)
+      )
+      (i32.const 45)
+      (i32.const 43)
+     )
+     (i32.const 16)
+    )
+    (i32.const 101)
+   )
+  )
+  (call $~lib/internal/dtoa/writeDigits
+   (i32.add
+    (get_local $7)
+    (i32.const 4)
+   )
+   (i64.extend_s/i32
+    (select
+     (tee_local $9
+      (get_local $2)
+     )
+     (i32.sub
+      (i32.const 0)
+      (get_local $9)
+     )
+     (i32.gt_s
+      (get_local $9)
+      (i32.const 0)
+     )
+    )
+   )
+   (get_local $5)
+  )
+  (get_local $6)
+ )
+ (func $~lib/allocator/arena/__memory_free (; 47 ;) (type $iv) (param $0 i32)
+  (nop)
+ )
+ (func $~lib/internal/dtoa/formatShortest (; 48 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $1
+   (call $~lib/internal/dtoa/decimalCount
+    (get_global $~lib/internal/dtoa/_output)
+   )
+  )
+  (set_local $3
+   (block $~lib/memory/memory.allocate|inlined.1 (result i32)
+    (set_local $2
+     (i32.shl
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (br $~lib/memory/memory.allocate|inlined.1
+     (call $~lib/allocator/arena/__memory_allocate
+      (get_local $2)
+     )
+    )
+   )
+  )
+  (call $~lib/internal/dtoa/writeDigits
+   (get_local $3)
+   (get_global $~lib/internal/dtoa/_output)
+   (get_local $1)
+  )
+  (set_local $4
+   (i32.add
+    (get_global $~lib/internal/dtoa/_exp10)
+    (get_local $1)
+   )
+  )
+  (set_local $5
+   (if (result i32)
+    (if (result i32)
+     (tee_local $2
+      (i32.gt_s
+       (get_local $4)
+       (i32.const -6)
+      )
+     )
+     (i32.le_s
+      (get_local $4)
+      (i32.const 21)
+     )
+     (get_local $2)
+    )
+    (call $~lib/internal/dtoa/formatPositional
+     (get_local $3)
+     (get_local $1)
+     (get_local $4)
+     (get_local $0)
+    )
+    (call $~lib/internal/dtoa/formatExponential
+     (get_local $3)
+     (get_local $1)
+     (i32.sub
+      (get_local $4)
+      (i32.const 1)
+     )
+     (get_local $0)
+    )
+   )
+  )
+  (block $~lib/memory/memory.free|inlined.0
+   (block
+    (call $~lib/allocator/arena/__memory_free
+     (get_local $3)
+    )
+    (br $~lib/memory/memory.free|inlined.0)
+   )
+  )
+  (get_local $5)
+ )
+ (func $~lib/internal/dtoa/dtoa64 (; 49 ;) (type $Fi) (param $0 f64) (result i32)
+  (local $1 i64)
+  (if
+   (f64.eq
+    (get_local $0)
+    (f64.const 0)
+   )
+   (return
+    (i32.const 552)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (block $~lib/builtins/isFinite<f64>|inlined.1 (result i32)
+      (f64.eq
+       (f64.sub
+        (get_local $0)
+        (get_local $0)
+       )
+       (f64.const 0)
+      )
+     )
+     (i32.const 1)
+    )
+   )
+   (return
+    (call $~lib/internal/dtoa/formatNonFinite
+     (get_local $0)
+    )
+   )
+  )
+  (set_local $1
+   (i64.reinterpret/f64
+    (get_local $0)
+   )
+  )
+  (call $~lib/internal/dtoa/ryu64
+   (i64.and
+    (get_local $1)
+    (i64.const 4503599627370495)
+   )
+   (i32.and
+    (i32.wrap/i64
+     (i64.shr_u
+      (get_local $1)
+      (i64.const 52)
+     )
+    )
+    (i32.const 2047)
+   )
+  )
+  (call $~lib/internal/dtoa/formatShortest
+   (i32.wrap/i64
+    (i64.shr_u
+     (get_local $1)
+     (i64.const 63)
+    )
+   )
+  )
+ )
+ (func $~lib/internal/dtoa/dtoa<f64> (; 50 ;) (type $Fi) (param $0 f64) (result i32)
+  (return
+   (call $~lib/internal/dtoa/dtoa64
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/internal/itoa/decimalCountU64 (; 51 ;) (type $Ii) (param $0 i64) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i64)
+  (set_local $1
+   (i32.sub
+    (i32.const 64)
+    (i32.wrap/i64
+     (i64.clz
+      (get_local $0)
+     )
+    )
+   )
+  )
+  (set_local $2
+   (i32.shr_u
+    (i32.mul
+     (get_local $1)
+     (i32.const 1233)
+    )
+    (i32.const 12)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (block $~lib/internal/itoa/POWERS10|inlined.1 (result i32)
+     (i32.const 17936)
+    )
+   )
+  )
+  (set_local $5
+   (block $~lib/internal/arraybuffer/loadUnsafe<u32,u64>|inlined.2 (result i64)
+    (set_local $4
+     (i32.sub
+      (get_local $2)
+      (i32.const 10)
+     )
+    )
+    (i64.load32_u offset=8
+     (i32.add
+      (get_local $3)
+      (i32.shl
+       (get_local $4)
+       (i32.const 2)
+      )
+     )
+    )
+   )
+  )
+  (set_local $2
+   (i32.sub
+    (get_local $2)
+    (i64.lt_u
+     (get_local $0)
+     (i64.mul
+      (i64.const 10000000000)
+      (get_local $5)
+     )
+    )
+   )
+  )
+  (i32.add
+   (get_local $2)
+   (i32.const 1)
+  )
+ )
+ (func $~lib/internal/itoa/utoa64_lut (; 52 ;) (type $iIiv) (param $0 i32) (param $1 i64) (param $2 i32)
+  (local $3 i32)
+  (local $4 i64)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i64)
+  (local $13 i64)
+  (set_local $3
+   (i32.load
+    (block $~lib/internal/itoa/DIGITS|inlined.1 (result i32)
+     (i32.const 18456)
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i64.ge_u
+      (get_local $1)
+      (i64.const 100000000)
+     )
+     (block
+      (block
+       (set_local $4
+        (i64.div_u
+         (get_local $1)
+         (i64.const 100000000)
+        )
+       )
+       (set_local $5
+        (i32.wrap/i64
+         (i64.sub
+          (get_local $1)
+          (i64.mul
+           (get_local $4)
+           (i64.const 100000000)
+          )
+         )
+        )
+       )
+       (set_local $1
+        (get_local $4)
+       )
+       (set_local $6
+        (i32.div_u
+         (get_local $5)
+         (i32.const 10000)
+        )
+       )
+       (set_local $7
+        (i32.rem_u
+         (get_local $5)
+         (i32.const 10000)
+        )
+       )
+       (set_local $8
+        (i32.div_u
+         (get_local $6)
+         (i32.const 100)
+        )
+       )
+       (set_local $9
+        (i32.rem_u
+         (get_local $6)
+         (i32.const 100)
+        )
+       )
+       (set_local $10
+        (i32.div_u
+         (get_local $7)
+         (i32.const 100)
+        )
+       )
+       (set_local $11
+        (i32.rem_u
+         (get_local $7)
+         (i32.const 100)
+        )
+       )
+       (set_local $12
+        (block $~lib/internal/arraybuffer/loadUnsafe<u32,u64>|inlined.3 (result i64)
+         (i64.load32_u offset=8
+          (i32.add
+           (get_local $3)
+           (i32.shl
+            (get_local $10)
+            (i32.const 2)
+           )
+          )
+         )
+        )
+       )
+       (set_local $13
+        (block $~lib/internal/arraybuffer/loadUnsafe<u32,u64>|inlined.4 (result i64)
+         (i64.load32_u offset=8
+          (i32.add
+           (get_local $3)
+           (i32.shl
+            (get_local $11)
+            (i32.const 2)
+           )
+          )
+         )
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 4)
+        )
+       )
+       (i64.store offset=4
+        (i32.add
+         (get_local $0)
+         (i32.shl
+          (get_local $2)
+          (i32.const 1)
+         )
+        )
+        (i64.or
+         (get_local $12)
+         (i64.shl
+          (get_local $13)
+          (i64.const 32)
+         )
+        )
+       )
+       (set_local $12
+        (block $~lib/internal/arraybuffer/loadUnsafe<u32,u64>|inlined.5 (result i64)
+         (i64.load32_u offset=8
+          (i32.add
+           (get_local $3)
+           (i32.shl
+            (get_local $8)
+            (i32.const 2)
+           )
+          )
+         )
+        )
+       )
+       (set_local $13
+        (block $~lib/internal/arraybuffer/loadUnsafe<u32,u64>|inlined.6 (result i64)
+         (i64.load32_u offset=8
+          (i32.add
+           (get_local $3)
+           (i32.shl
+            (get_local $9)
+            (i32.const 2)
+           )
+          )
+         )
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 4)
+        )
+       )
+       (i64.store offset=4
+        (i32.add
+         (get_local $0)
+         (i32.shl
+          (get_local $2)
+          (i32.const 1)
+         )
+        )
+        (i64.or
+         (get_local $12)
+         (i64.shl
+          (get_local $13)
+          (i64.const 32)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (call $~lib/internal/itoa/utoa32_lut
+   (get_local $0)
+   (i32.wrap/i64
+    (get_local $1)
+   )
+   (get_local $2)
+  )
+ )
+ (func $~lib/internal/itoa/utoa64 (; 53 ;) (type $Ii) (param $0 i64) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i64.eqz
+    (get_local $0)
+   )
+   (return
+    (i32.const 552)
+   )
+  )
+  (if
+   (i64.le_u
+    (get_local $0)
+    (i64.extend_u/i32
+     (get_global $~lib/builtins/u32.MAX_VALUE)
+    )
+   )
+   (block
+    (set_local $2
+     (i32.wrap/i64
+      (get_local $0)
+     )
+    )
+    (set_local $3
+     (call $~lib/internal/itoa/decimalCountU32
+      (get_local $2)
+     )
+    )
+    (set_local $1
+     (call $~lib/internal/string/allocateUnsafe
+      (get_local $3)
+     )
+    )
+    (block $~lib/internal/itoa/utoa32_core|inlined.1
+     (call $~lib/internal/itoa/utoa32_lut
+      (get_local $1)
+      (get_local $2)
+      (get_local $3)
+     )
+    )
+   )
+   (block
+    (set_local $3
+     (call $~lib/internal/itoa/decimalCountU64
+      (get_local $0)
+     )
+    )
+    (set_local $1
+     (call $~lib/internal/string/allocateUnsafe
+      (get_local $3)
+     )
+    )
+    (block $~lib/internal/itoa/utoa64_core|inlined.0
+     (call $~lib/internal/itoa/utoa64_lut
+      (get_local $1)
+      (get_local $0)
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/itoa/itoa<u64> (; 54 ;) (type $Ii) (param $0 i64) (result i32)
+  (return
+   (call $~lib/internal/itoa/utoa64
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/internal/dtoa/mulShift32 (; 55 ;) (type $iIii) (param $0 i32) (param $1 i64) (param $2 i32) (result i32)
+  (local $3 i64)
+  (local $4 i64)
+  (set_local $3
+   (i64.mul
+    (i64.extend_u/i32
+     (get_local $0)
+    )
+    (i64.and
+     (get_local $1)
+     (i64.const 4294967295)
+    )
+   )
+  )
+  (set_local $4
+   (i64.mul
+    (i64.extend_u/i32
+     (get_local $0)
+    )
+    (i64.shr_u
+     (get_local $1)
+     (i64.const 32)
+    )
+   )
+  )
+  (i32.wrap/i64
+   (i64.shr_u
+    (i64.add
+     (i64.shr_u
+      (get_local $3)
+      (i64.const 32)
+     )
+     (get_local $4)
+    )
+    (i64.extend_s/i32
+     (i32.sub
+      (get_local $2)
+      (i32.const 32)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/dtoa/ryu32 (; 56 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (local $13 i32)
+  (local $14 i32)
+  (local $15 i32)
+  (local $16 i32)
+  (local $17 i32)
+  (local $18 i32)
+  (local $19 i32)
+  (local $20 i64)
+  (local $21 i32)
+  (local $22 i32)
+  (local $23 i32)
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (block
+    (set_local $2
+     (i32.sub
+      (i32.sub
+       (i32.sub
+        (i32.const 1)
+        (i32.const 127)
+       )
+       (i32.const 23)
+      )
+      (i32.const 2)
+     )
+    )
+    (set_local $3
+     (get_local $0)
+    )
+   )
+   (block
+    (set_local $2
+     (i32.sub
+      (i32.sub
+       (i32.sub
+        (get_local $1)
+        (i32.const 127)
+       )
+       (i32.const 23)
+      )
+      (i32.const 2)
+     )
+    )
+    (set_local $3
+     (i32.or
+      (i32.shl
+       (i32.const 1)
+       (i32.const 23)
+      )
+      (get_local $0)
+     )
+    )
+   )
+  )
+  (set_local $4
+   (i32.eqz
+    (i32.and
+     (get_local $3)
+     (i32.const 1)
+    )
+   )
+  )
+  (set_local $5
+   (i32.shl
+    (get_local $3)
+    (i32.const 2)
+   )
+  )
+  (set_local $6
+   (i32.add
+    (get_local $5)
+    (i32.const 2)
+   )
+  )
+  (set_local $8
+   (if (result i32)
+    (tee_local $7
+     (i32.ne
+      (get_local $0)
+      (i32.const 0)
+     )
+    )
+    (get_local $7)
+    (i32.le_s
+     (get_local $1)
+     (i32.const 1)
+    )
+   )
+  )
+  (set_local $9
+   (i32.sub
+    (i32.sub
+     (get_local $5)
+     (i32.const 1)
+    )
+    (get_local $8)
+   )
+  )
+  (set_local $14
+   (i32.const 0)
+  )
+  (set_local $15
+   (i32.const 0)
+  )
+  (set_local $16
+   (i32.const 0)
+  )
+  (if
+   (i32.ge_s
+    (get_local $2)
+    (i32.const 0)
+   )
+   (block
+    (set_local $7
+     (block $~lib/internal/dtoa/log10Pow2|inlined.1 (result i32)
+      (i32.shr_u
+       (i32.mul
+        (get_local $2)
+        (i32.const 78913)
+       )
+       (i32.const 18)
+      )
+     )
+    )
+    (set_local $13
+     (get_local $7)
+    )
+    (set_local $17
+     (i32.sub
+      (i32.add
+       (i32.add
+        (i32.add
+         (i32.sub
+          (i32.const 0)
+          (get_local $2)
+         )
+         (get_local $7)
+        )
+        (get_global $~lib/internal/dtoa/POW5_INV_BITCOUNT32)
+       )
+       (block $~lib/internal/dtoa/pow5bits|inlined.2 (result i32)
+        (i32.add
+         (i32.shr_u
+          (i32.mul
+           (get_local $7)
+           (i32.const 1217359)
+          )
+          (i32.const 19)
+         )
+         (i32.const 1)
+        )
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $18
+     (i32.load
+      (block $~lib/internal/dtoa/POW5_INV_SPLIT|inlined.1 (result i32)
+       (i32.const 26704)
+      )
+     )
+    )
+    (set_local $20
+     (i64.add
+      (block $~lib/internal/arraybuffer/loadUnsafe<u64,u64>|inlined.4 (result i64)
+       (set_local $19
+        (i32.add
+         (i32.shl
+          (get_local $7)
+          (i32.const 1)
+         )
+         (i32.const 1)
+        )
+       )
+       (i64.load offset=8
+        (i32.add
+         (get_local $18)
+         (i32.shl
+          (get_local $19)
+          (i32.const 3)
+         )
+        )
+       )
+      )
+      (i64.const 1)
+     )
+    )
+    (set_local $10
+     (call $~lib/internal/dtoa/mulShift32
+      (get_local $5)
+      (get_local $20)
+      (get_local $17)
+     )
+    )
+    (set_local $11
+     (call $~lib/internal/dtoa/mulShift32
+      (get_local $6)
+      (get_local $20)
+      (get_local $17)
+     )
+    )
+    (set_local $12
+     (call $~lib/internal/dtoa/mulShift32
+      (get_local $9)
+      (get_local $20)
+      (get_local $17)
+     )
+    )
+    (if
+     (if (result i32)
+      (get_local $7)
+      (i32.le_u
+       (i32.div_u
+        (i32.sub
+         (get_local $11)
+         (i32.const 1)
+        )
+        (i32.const 10)
+       )
+       (i32.div_u
+        (get_local $12)
+        (i32.const 10)
+       )
+      )
+      (get_local $7)
+     )
+     (block
+      (set_local $20
+       (i64.add
+        (block $~lib/internal/arraybuffer/loadUnsafe<u64,u64>|inlined.5 (result i64)
+         (set_local $19
+          (i32.add
+           (i32.shl
+            (i32.sub
+             (get_local $7)
+             (i32.const 1)
+            )
+            (i32.const 1)
+           )
+           (i32.const 1)
+          )
+         )
+         (i64.load offset=8
+          (i32.add
+           (get_local $18)
+           (i32.shl
+            (get_local $19)
+            (i32.const 3)
+           )
+          )
+         )
+        )
+        (i64.const 1)
+       )
+      )
+      (set_local $17
+       (i32.sub
+        (i32.add
+         (i32.add
+          (i32.sub
+           (i32.add
+            (i32.sub
+             (i32.const 0)
+             (get_local $2)
+            )
+            (get_local $7)
+           )
+           (i32.const 1)
+          )
+          (get_global $~lib/internal/dtoa/POW5_INV_BITCOUNT32)
+         )
+         (block $~lib/internal/dtoa/pow5bits|inlined.3 (result i32)
+          (set_local $19
+           (i32.sub
+            (get_local $7)
+            (i32.const 1)
+           )
+          )
+          (i32.add
+           (i32.shr_u
+            (i32.mul
+             (get_local $19)
+             (i32.const 1217359)
+            )
+            (i32.const 19)
+           )
+           (i32.const 1)
+          )
+         )
+        )
+        (i32.const 1)
+       )
+      )
+      (set_local $16
+       (i32.rem_u
+        (call $~lib/internal/dtoa/mulShift32
+         (get_local $5)
+         (get_local $20)
+         (get_local $17)
+        )
+        (i32.const 10)
+       )
+      )
+     )
+    )
+    (if
+     (i32.le_s
+      (get_local $7)
+      (i32.const 9)
+     )
+     (if
+      (i32.eqz
+       (i32.rem_u
+        (get_local $5)
+        (i32.const 5)
+       )
+      )
+      (set_local $15
+       (i32.ge_s
+        (call $~lib/internal/dtoa/pow5Factor
+         (i64.extend_u/i32
+          (get_local $5)
+         )
+        )
+        (get_local $7)
+       )
+      )
+      (if
+       (get_local $4)
+       (set_local $14
+        (i32.ge_s
+         (call $~lib/internal/dtoa/pow5Factor
+          (i64.extend_u/i32
+           (get_local $9)
+          )
+         )
+         (get_local $7)
+        )
+       )
+       (set_local $11
+        (i32.sub
+         (get_local $11)
+         (i32.ge_s
+          (call $~lib/internal/dtoa/pow5Factor
+           (i64.extend_u/i32
+            (get_local $6)
+           )
+          )
+          (get_local $7)
+         )
+        )
+       )
+      )
+     )
+    )
+   )
+   (block
+    (set_local $18
+     (block $~lib/internal/dtoa/log10Pow5|inlined.1 (result i32)
+      (set_local $18
+       (i32.sub
+        (i32.const 0)
+        (get_local $2)
+       )
+      )
+      (i32.shr_u
+       (i32.mul
+        (get_local $18)
+        (i32.const 732923)
+       )
+       (i32.const 20)
+      )
+     )
+    )
+    (set_local $13
+     (i32.add
+      (get_local $18)
+      (get_local $2)
+     )
+    )
+    (set_local $17
+     (i32.sub
+      (i32.sub
+       (i32.const 0)
+       (get_local $2)
+      )
+      (get_local $18)
+     )
+    )
+    (set_local $7
+     (i32.add
+      (i32.sub
+       (get_local $18)
+       (block $~lib/internal/dtoa/pow5bits|inlined.4 (result i32)
+        (i32.add
+         (i32.shr_u
+          (i32.mul
+           (get_local $17)
+           (i32.const 1217359)
+          )
+          (i32.const 19)
+         )
+         (i32.const 1)
+        )
+       )
+      )
+      (get_global $~lib/internal/dtoa/POW5_BITCOUNT32)
+     )
+    )
+    (set_local $19
+     (i32.load
+      (block $~lib/internal/dtoa/POW5_SPLIT|inlined.1 (result i32)
+       (i32.const 34904)
+      )
+     )
+    )
+    (set_local $20
+     (block $~lib/internal/arraybuffer/loadUnsafe<u64,u64>|inlined.6 (result i64)
+      (set_local $21
+       (i32.add
+        (i32.shl
+         (get_local $17)
+         (i32.const 1)
+        )
+        (i32.const 1)
+       )
+      )
+      (i64.load offset=8
+       (i32.add
+        (get_local $19)
+        (i32.shl
+         (get_local $21)
+         (i32.const 3)
+        )
+       )
+      )
+     )
+    )
+    (set_local $10
+     (call $~lib/internal/dtoa/mulShift32
+      (get_local $5)
+      (get_local $20)
+      (get_local $7)
+     )
+    )
+    (set_local $11
+     (call $~lib/internal/dtoa/mulShift32
+      (get_local $6)
+      (get_local $20)
+      (get_local $7)
+     )
+    )
+    (set_local $12
+     (call $~lib/internal/dtoa/mulShift32
+      (get_local $9)
+      (get_local $20)
+      (get_local $7)
+     )
+    )
+    (if
+     (if (result i32)
+      (get_local $18)
+      (i32.le_u
+       (i32.div_u
+        (i32.sub
+         (get_local $11)
+         (i32.const 1)
+        )
+        (i32.const 10)
+       )
+       (i32.div_u
+        (get_local $12)
+        (i32.const 10)
+       )
+      )
+      (get_local $18)
+     )
+     (block
+      (set_local $20
+       (block $~lib/internal/arraybuffer/loadUnsafe<u64,u64>|inlined.7 (result i64)
+        (set_local $21
+         (i32.add
+          (i32.shl
+           (i32.add
+            (get_local $17)
+            (i32.const 1)
+           )
+           (i32.const 1)
+          )
+          (i32.const 1)
+         )
+        )
+        (i64.load offset=8
+         (i32.add
+          (get_local $19)
+          (i32.shl
+           (get_local $21)
+           (i32.const 3)
+          )
+         )
+        )
+       )
+      )
+      (set_local $7
+       (i32.add
+        (i32.sub
+         (i32.sub
+          (get_local $18)
+          (i32.const 1)
+         )
+         (block $~lib/internal/dtoa/pow5bits|inlined.5 (result i32)
+          (set_local $21
+           (i32.add
+            (get_local $17)
+            (i32.const 1)
+           )
+          )
+          (i32.add
+           (i32.shr_u
+            (i32.mul
+             (get_local $21)
+             (i32.const 1217359)
+            )
+            (i32.const 19)
+           )
+           (i32.const 1)
+          )
+         )
+        )
+        (get_global $~lib/internal/dtoa/POW5_BITCOUNT32)
+       )
+      )
+      (set_local $16
+       (i32.rem_u
+        (call $~lib/internal/dtoa/mulShift32
+         (get_local $5)
+         (get_local $20)
+         (get_local $7)
+        )
+        (i32.const 10)
+       )
+      )
+     )
+    )
+    (if
+     (i32.le_s
+      (get_local $18)
+      (i32.const 1)
+     )
+     (block
+      (set_local $15
+       (i32.const 1)
+      )
+      (if
+       (get_local $4)
+       (set_local $14
+        (i32.eq
+         (get_local $8)
+         (i32.const 1)
+        )
+       )
+       (set_local $11
+        (i32.sub
+         (get_local $11)
+         (i32.const 1)
+        )
+       )
+      )
+     )
+     (if
+      (i32.lt_s
+       (get_local $18)
+       (i32.const 31)
+      )
+      (set_local $15
+       (i32.eqz
+        (i32.and
+         (get_local $5)
+         (i32.sub
+          (i32.shl
+           (i32.const 1)
+           (i32.sub
+            (get_local $18)
+            (i32.const 1)
+           )
+          )
+          (i32.const 1)
+         )
+        )
+       )
+      )
+     )
+    )
+   )
+  )
+  (set_local $22
+   (i32.const 0)
+  )
+  (if
+   (if (result i32)
+    (get_local $14)
+    (get_local $14)
+    (get_local $15)
+   )
+   (block
+    (block $break|0
+     (loop $continue|0
+      (if
+       (i32.gt_u
+        (i32.div_u
+         (get_local $11)
+         (i32.const 10)
+        )
+        (i32.div_u
+         (get_local $12)
+         (i32.const 10)
+        )
+       )
+       (block
+        (block
+         (set_local $14
+          (if (result i32)
+           (get_local $14)
+           (i32.eqz
+            (i32.rem_u
+             (get_local $12)
+             (i32.const 10)
+            )
+           )
+           (get_local $14)
+          )
+         )
+         (set_local $15
+          (if (result i32)
+           (get_local $15)
+           (i32.eqz
+            (get_local $16)
+           )
+           (get_local $15)
+          )
+         )
+         (set_local $16
+          (i32.rem_u
+           (get_local $10)
+           (i32.const 10)
+          )
+         )
+         (set_local $10
+          (i32.div_u
+           (get_local $10)
+           (i32.const 10)
+          )
+         )
+         (set_local $11
+          (i32.div_u
+           (get_local $11)
+           (i32.const 10)
+          )
+         )
+         (set_local $12
+          (i32.div_u
+           (get_local $12)
+           (i32.const 10)
+          )
+         )
+         (set_local $22
+          (i32.add
+           (get_local $22)
+           (i32.const 1)
+          )
+         )
+        )
+        (br $continue|0)
+       )
+      )
+     )
+    )
+    (if
+     (get_local $14)
+     (block $break|1
+      (loop $continue|1
+       (if
+        (i32.eqz
+         (i32.rem_u
+          (get_local $12)
+          (i32.const 10)
+         )
+        )
+        (block
+         (block
+          (set_local $15
+           (if (result i32)
+            (get_local $15)
+            (i32.eqz
+             (get_local $16)
+            )
+            (get_local $15)
+           )
+          )
+          (set_local $16
+           (i32.rem_u
+            (get_local $10)
+            (i32.const 10)
+           )
+          )
+          (set_local $10
+           (i32.div_u
+            (get_local $10)
+            (i32.const 10)
+           )
+          )
+          (set_local $11
+           (i32.div_u
+            (get_local $11)
+            (i32.const 10)
+           )
+          )
+          (set_local $12
+           (i32.div_u
+            (get_local $12)
+            (i32.const 10)
+           )
+          )
+          (set_local $22
+           (i32.add
+            (get_local $22)
+            (i32.const 1)
+           )
+          )
+         )
+         (br $continue|1)
+        )
+       )
+      )
+     )
+    )
+    (if
+     (if (result i32)
+      (tee_local $19
+       (if (result i32)
+        (get_local $15)
+        (i32.eq
+         (get_local $16)
+         (i32.const 5)
+        )
+        (get_local $15)
+       )
+      )
+      (i32.eqz
+       (i32.and
+        (get_local $10)
+        (i32.const 1)
+       )
+      )
+      (get_local $19)
+     )
+     (set_local $16
+      (i32.const 4)
+     )
+    )
+    (set_local $23
+     (i32.add
+      (get_local $10)
+      (if (result i32)
+       (tee_local $19
+        (if (result i32)
+         (tee_local $19
+          (i32.eq
+           (get_local $10)
+           (get_local $12)
+          )
+         )
+         (if (result i32)
+          (tee_local $19
+           (i32.eqz
+            (get_local $4)
+           )
+          )
+          (get_local $19)
+          (i32.eqz
+           (get_local $14)
+          )
+         )
+         (get_local $19)
+        )
+       )
+       (get_local $19)
+       (i32.ge_u
+        (get_local $16)
+        (i32.const 5)
+       )
+      )
+     )
+    )
+   )
+   (block
+    (block $break|2
+     (loop $continue|2
+      (if
+       (i32.gt_u
+        (i32.div_u
+         (get_local $11)
+         (i32.const 10)
+        )
+        (i32.div_u
+         (get_local $12)
+         (i32.const 10)
+        )
+       )
+       (block
+        (block
+         (set_local $16
+          (i32.rem_u
+           (get_local $10)
+           (i32.const 10)
+          )
+         )
+         (set_local $10
+          (i32.div_u
+           (get_local $10)
+           (i32.const 10)
+          )
+         )
+         (set_local $11
+          (i32.div_u
+           (get_local $11)
+           (i32.const 10)
+          )
+         )
+         (set_local $12
+          (i32.div_u
+           (get_local $12)
+           (i32.const 10)
+          )
+         )
+         (set_local $22
+          (i32.add
+           (get_local $22)
+           (i32.const 1)
+          )
+         )
+        )
+        (br $continue|2)
+       )
+      )
+     )
+    )
+    (set_local $23
+     (i32.add
+      (get_local $10)
+      (if (result i32)
+       (tee_local $19
+        (i32.eq
+         (get_local $10)
+         (get_local $12)
+        )
+       )
+       (get_local $19)
+       (i32.ge_u
+        (get_local $16)
+        (i32.const 5)
+       )
+      )
+     )
+    )
+   )
+  )
+  (set_global $~lib/internal/dtoa/_output
+   (i64.extend_u/i32
+    (get_local $23)
+   )
+  )
+  (set_global $~lib/internal/dtoa/_exp10
+   (i32.add
+    (get_local $13)
+    (get_local $22)
+   )
+  )
+ )
+ (func $~lib/internal/dtoa/dtoa32 (; 57 ;) (type $fi) (param $0 f32) (result i32)
+  (local $1 i32)
+  (if
+   (f32.eq
+    (get_local $0)
+    (f32.const 0)
+   )
+   (return
+    (i32.const 552)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (block $~lib/builtins/isFinite<f32>|inlined.1 (result i32)
+      (f32.eq
+       (f32.sub
+        (get_local $0)
+        (get_local $0)
+       )
+       (f32.const 0)
+      )
+     )
+     (i32.const 1)
+    )
+   )
+   (return
+    (call $~lib/internal/dtoa/formatNonFinite
+     (f64.promote/f32
+      (get_local $0)
+     )
+    )
+   )
+  )
+  (set_local $1
+   (i32.reinterpret/f32
+    (get_local $0)
+   )
+  )
+  (call $~lib/internal/dtoa/ryu32
+   (i32.and
+    (get_local $1)
+    (i32.const 8388607)
+   )
+   (i32.and
+    (i32.shr_u
+     (get_local $1)
+     (i32.const 23)
+    )
+    (i32.const 255)
+   )
+  )
+  (call $~lib/internal/dtoa/formatShortest
+   (i32.shr_u
+    (get_local $1)
+    (i32.const 31)
+   )
+  )
+ )
+ (func $~lib/internal/dtoa/dtoa<f32> (; 58 ;) (type $fi) (param $0 f32) (result i32)
+  (return
+   (call $~lib/internal/dtoa/dtoa32
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/string/String.__gt (; 59 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (if
+   (if (result i32)
+    (tee_local $2
+     (if (result i32)
+      (tee_local $2
+       (i32.eq
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (get_local $2)
+      (i32.eq
+       (get_local $0)
+       (i32.const 0)
+      )
+     )
+    )
+    (get_local $2)
+    (i32.eq
+     (get_local $1)
+     (i32.const 0)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.load
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $3)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $4)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (set_local $6
+   (select
+    (tee_local $2
+     (get_local $3)
+    )
+    (tee_local $5
+     (get_local $4)
+    )
+    (i32.lt_s
+     (get_local $2)
+     (get_local $5)
+    )
+   )
+  )
+  (i32.gt_s
+   (call $~lib/internal/string/compareUnsafe
+    (get_local $0)
+    (i32.const 0)
+    (get_local $1)
+    (i32.const 0)
+    (get_local $6)
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/string/String.__gte (; 60 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $2
+     (i32.eq
+      (get_local $0)
+      (i32.const 0)
+     )
+    )
+    (get_local $2)
+    (i32.eq
+     (get_local $1)
+     (i32.const 0)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.load
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $3)
+   )
+   (return
+    (i32.eqz
+     (get_local $4)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $4)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (set_local $6
+   (select
+    (tee_local $2
+     (get_local $3)
+    )
+    (tee_local $5
+     (get_local $4)
+    )
+    (i32.lt_s
+     (get_local $2)
+     (get_local $5)
+    )
+   )
+  )
+  (i32.ge_s
+   (call $~lib/internal/string/compareUnsafe
+    (get_local $0)
+    (i32.const 0)
+    (get_local $1)
+    (i32.const 0)
+    (get_local $6)
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/string/String.__lt (; 61 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (if
+   (if (result i32)
+    (tee_local $2
+     (if (result i32)
+      (tee_local $2
+       (i32.eq
+        (get_local $0)
+        (get_local $1)
+       )
+      )
+      (get_local $2)
+      (i32.eq
+       (get_local $0)
+       (i32.const 0)
+      )
+     )
+    )
+    (get_local $2)
+    (i32.eq
+     (get_local $1)
+     (i32.const 0)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.load
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $4)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $3)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (set_local $6
+   (select
+    (tee_local $2
+     (get_local $3)
+    )
+    (tee_local $5
+     (get_local $4)
+    )
+    (i32.lt_s
+     (get_local $2)
+     (get_local $5)
+    )
+   )
+  )
+  (i32.lt_s
+   (call $~lib/internal/string/compareUnsafe
+    (get_local $0)
+    (i32.const 0)
+    (get_local $1)
+    (i32.const 0)
+    (get_local $6)
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/string/String.__lte (; 62 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $2
+     (i32.eq
+      (get_local $0)
+      (i32.const 0)
+     )
+    )
+    (get_local $2)
+    (i32.eq
+     (get_local $1)
+     (i32.const 0)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.load
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $4)
+   )
+   (return
+    (i32.eqz
+     (get_local $3)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $3)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (set_local $6
+   (select
+    (tee_local $2
+     (get_local $3)
+    )
+    (tee_local $5
+     (get_local $4)
+    )
+    (i32.lt_s
+     (get_local $2)
+     (get_local $5)
+    )
+   )
+  )
+  (i32.le_s
+   (call $~lib/internal/string/compareUnsafe
+    (get_local $0)
+    (i32.const 0)
+    (get_local $1)
+    (i32.const 0)
+    (get_local $6)
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/string/String#repeat (; 63 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eqz
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 80)
+     (i32.const 425)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $3
+     (i32.lt_s
+      (get_local $1)
+      (i32.const 0)
+     )
+    )
+    (get_local $3)
+    (i32.gt_s
+     (i32.mul
+      (get_local $2)
+      (get_local $1)
+     )
+     (i32.shl
+      (i32.const 1)
+      (i32.const 28)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 80)
+     (i32.const 430)
+     (i32.const 6)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $3
+     (i32.eq
+      (get_local $1)
+      (i32.const 0)
+     )
+    )
+    (get_local $3)
+    (i32.eqz
+     (get_local $2)
+    )
+   )
+   (return
+    (i32.const 256)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 1)
+   )
+   (return
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (call $~lib/internal/string/allocateUnsafe
+    (i32.mul
+     (get_local $2)
+     (get_local $1)
+    )
+   )
+  )
+  (call $~lib/internal/string/repeatUnsafe
+   (get_local $4)
+   (i32.const 0)
+   (get_local $0)
+   (get_local $1)
+  )
+  (get_local $4)
+ )
+ (func $~lib/internal/arraybuffer/computeSize (; 64 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.shl
+   (i32.const 1)
+   (i32.sub
+    (i32.const 32)
+    (i32.clz
+     (i32.sub
+      (i32.add
+       (get_local $0)
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+      (i32.const 1)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/arraybuffer/allocateUnsafe (; 65 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (i32.le_u
+     (get_local $0)
+     (get_global $~lib/internal/arraybuffer/MAX_BLENGTH)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 35104)
+     (i32.const 23)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $1
+   (block $~lib/memory/memory.allocate|inlined.2 (result i32)
+    (set_local $2
+     (call $~lib/internal/arraybuffer/computeSize
+      (get_local $0)
+     )
+    )
+    (br $~lib/memory/memory.allocate|inlined.2
+     (call $~lib/allocator/arena/__memory_allocate
+      (get_local $2)
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/memory/memory.allocate (; 66 ;) (type $ii) (param $0 i32) (result i32)
+  (return
+   (call $~lib/allocator/arena/__memory_allocate
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/internal/memory/memset (; 67 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i64)
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return)
+  )
+  (i32.store8
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 1)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 2)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 1)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 2)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 2)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 3)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 6)
+   )
+   (return)
+  )
+  (i32.store8
+   (i32.add
+    (get_local $0)
+    (i32.const 3)
+   )
+   (get_local $1)
+  )
+  (i32.store8
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 4)
+   )
+   (get_local $1)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (set_local $3
+   (i32.and
+    (i32.sub
+     (i32.const 0)
+     (get_local $0)
+    )
+    (i32.const 3)
+   )
+  )
+  (set_local $0
+   (i32.add
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.sub
+    (get_local $2)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.and
+    (get_local $2)
+    (i32.const -4)
+   )
+  )
+  (set_local $4
+   (i32.mul
+    (i32.div_u
+     (i32.const -1)
+     (i32.const 255)
+    )
+    (i32.and
+     (get_local $1)
+     (i32.const 255)
+    )
+   )
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 4)
+   )
+   (get_local $4)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 8)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 4)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 8)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 12)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 8)
+   )
+   (get_local $4)
+  )
+  (if
+   (i32.le_u
+    (get_local $2)
+    (i32.const 24)
+   )
+   (return)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 12)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 16)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 20)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.add
+    (get_local $0)
+    (i32.const 24)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 28)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 24)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 20)
+   )
+   (get_local $4)
+  )
+  (i32.store
+   (i32.sub
+    (i32.add
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.const 16)
+   )
+   (get_local $4)
+  )
+  (set_local $3
+   (i32.add
+    (i32.const 24)
+    (i32.and
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (set_local $0
+   (i32.add
+    (get_local $0)
+    (get_local $3)
+   )
+  )
+  (set_local $2
+   (i32.sub
+    (get_local $2)
+    (get_local $3)
+   )
+  )
+  (set_local $5
+   (i64.or
+    (i64.extend_u/i32
+     (get_local $4)
+    )
+    (i64.shl
+     (i64.extend_u/i32
+      (get_local $4)
+     )
+     (i64.const 32)
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.ge_u
+      (get_local $2)
+      (i32.const 32)
+     )
+     (block
+      (block
+       (i64.store
+        (get_local $0)
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 16)
+        )
+        (get_local $5)
+       )
+       (i64.store
+        (i32.add
+         (get_local $0)
+         (i32.const 24)
+        )
+        (get_local $5)
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 32)
+        )
+       )
+       (set_local $0
+        (i32.add
+         (get_local $0)
+         (i32.const 32)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/array/Array<i32>#constructor (; 68 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (i32.gt_u
+    (get_local $1)
+    (i32.const 268435454)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 35072)
+     (i32.const 23)
+     (i32.const 39)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $2
+   (i32.shl
+    (get_local $1)
+    (i32.const 2)
+   )
+  )
+  (set_local $3
+   (call $~lib/internal/arraybuffer/allocateUnsafe
+    (get_local $2)
+   )
+  )
+  (i32.store
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $4
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.store
+        (get_local $4)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $4)
+        (i32.const 0)
+       )
+       (get_local $4)
+      )
+     )
+    )
+   )
+   (get_local $3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (block $~lib/memory/memory.fill|inlined.0
+   (set_local $4
+    (i32.add
+     (get_local $3)
+     (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+    )
+   )
+   (set_local $5
+    (i32.const 0)
+   )
+   (call $~lib/internal/memory/memset
+    (get_local $4)
+    (get_local $5)
+    (get_local $2)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/arraybuffer/reallocateUnsafe (; 69 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.gt_s
+    (get_local $1)
+    (get_local $2)
+   )
+   (block
+    (if
+     (i32.eqz
+      (i32.le_s
+       (get_local $1)
+       (get_global $~lib/internal/arraybuffer/MAX_BLENGTH)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 35104)
+       (i32.const 37)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.le_s
+      (get_local $1)
+      (i32.sub
+       (call $~lib/internal/arraybuffer/computeSize
+        (get_local $2)
+       )
+       (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+      )
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (get_local $1)
+      )
+      (block $~lib/memory/memory.fill|inlined.1
+       (set_local $3
+        (i32.add
+         (i32.add
+          (get_local $0)
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (get_local $2)
+        )
+       )
+       (set_local $4
+        (i32.const 0)
+       )
+       (set_local $5
+        (i32.sub
+         (get_local $1)
+         (get_local $2)
+        )
+       )
+       (call $~lib/internal/memory/memset
+        (get_local $3)
+        (get_local $4)
+        (get_local $5)
+       )
+      )
+     )
+     (block
+      (set_local $5
+       (call $~lib/internal/arraybuffer/allocateUnsafe
+        (get_local $1)
+       )
+      )
+      (block $~lib/memory/memory.copy|inlined.7
+       (set_local $4
+        (i32.add
+         (get_local $5)
+         (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+        )
+       )
+       (set_local $3
+        (i32.add
+         (get_local $0)
+         (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+        )
+       )
+       (call $~lib/internal/memory/memmove
+        (get_local $4)
+        (get_local $3)
+        (get_local $2)
+       )
+      )
+      (block $~lib/memory/memory.fill|inlined.2
+       (set_local $3
+        (i32.add
+         (i32.add
+          (get_local $5)
+          (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+         )
+         (get_local $2)
+        )
+       )
+       (set_local $4
+        (i32.const 0)
+       )
+       (set_local $6
+        (i32.sub
+         (get_local $1)
+         (get_local $2)
+        )
+       )
+       (call $~lib/internal/memory/memset
+        (get_local $3)
+        (get_local $4)
+        (get_local $6)
+       )
+      )
+      (return
+       (get_local $5)
+      )
+     )
+    )
+   )
+   (if
+    (i32.lt_s
+     (get_local $1)
+     (get_local $2)
+    )
+    (block
+     (if
+      (i32.eqz
+       (i32.ge_s
+        (get_local $1)
+        (i32.const 0)
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 35104)
+        (i32.const 61)
+        (i32.const 4)
+       )
+       (unreachable)
+      )
+     )
+     (i32.store
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/array/Array<i32>#push (; 70 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.shr_u
+    (i32.load
+     (get_local $3)
+    )
+    (i32.const 2)
+   )
+  )
+  (set_local $5
+   (i32.add
+    (get_local $2)
+    (i32.const 1)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $2)
+    (get_local $4)
+   )
+   (block
+    (if
+     (i32.ge_u
+      (get_local $2)
+      (i32.const 268435454)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 35072)
+       (i32.const 193)
+       (i32.const 42)
+      )
+      (unreachable)
+     )
+    )
+    (set_local $3
+     (call $~lib/internal/arraybuffer/reallocateUnsafe
+      (get_local $3)
+      (i32.shl
+       (get_local $5)
+       (i32.const 2)
+      )
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (get_local $3)
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $5)
+  )
+  (block $~lib/internal/arraybuffer/storeUnsafe<i32,i32>|inlined.0
+   (i32.store offset=8
+    (i32.add
+     (get_local $3)
+     (i32.shl
+      (get_local $2)
+      (i32.const 2)
+     )
+    )
+    (get_local $1)
+   )
+  )
+  (get_local $5)
+ )
+ (func $~lib/array/Array<i32>#__get (; 71 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if (result i32)
+   (i32.lt_u
+    (get_local $1)
+    (i32.shr_u
+     (i32.load
+      (get_local $2)
+     )
+     (i32.const 2)
+    )
+   )
+   (block $~lib/internal/arraybuffer/loadUnsafe<i32,i32>|inlined.0 (result i32)
+    (i32.load offset=8
+     (i32.add
+      (get_local $2)
+      (i32.shl
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+    )
+   )
+   (unreachable)
+  )
+ )
+ (func $~lib/internal/string/findRow (; 72 ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (set_local $4
+   (i32.const 0)
+  )
+  (set_local $5
+   (i32.sub
+    (i32.div_s
+     (block $~lib/array/Array<i32>#get:length|inlined.0 (result i32)
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (get_local $1)
+    )
+    (i32.const 1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.le_s
+      (get_local $4)
+      (get_local $5)
+     )
+     (block
+      (block
+       (set_local $6
+        (i32.shr_u
+         (i32.add
+          (get_local $4)
+          (get_local $5)
+         )
+         (i32.const 1)
+        )
+       )
+       (set_local $7
+        (i32.mul
+         (get_local $6)
+         (get_local $1)
+        )
+       )
+       (if
+        (i32.lt_s
+         (get_local $3)
+         (call $~lib/array/Array<i32>#__get
+          (get_local $0)
+          (get_local $7)
+         )
+        )
+        (set_local $5
+         (i32.sub
+          (get_local $6)
+          (i32.const 1)
+         )
+        )
+        (if
+         (i32.gt_s
+          (get_local $3)
+          (call $~lib/array/Array<i32>#__get
+           (get_local $0)
+           (i32.add
+            (get_local $7)
+            (i32.and
+             (get_local $2)
+             (i32.const 1)
+            )
+           )
+          )
+         )
+         (set_local $4
+          (i32.add
+           (get_local $6)
+           (i32.const 1)
+          )
+         )
+         (return
+          (get_local $7)
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.const -1)
+ )
+ (func $~lib/array/Array<u16>#__get (; 73 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if (result i32)
+   (i32.lt_u
+    (get_local $1)
+    (i32.shr_u
+     (i32.load
+      (get_local $2)
+     )
+     (i32.const 1)
+    )
+   )
+   (block $~lib/internal/arraybuffer/loadUnsafe<u16,u16>|inlined.0 (result i32)
+    (i32.load16_u offset=8
+     (i32.add
+      (get_local $2)
+      (i32.shl
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+    )
+   )
+   (unreachable)
+  )
+ )
+ (func $~lib/internal/string/decompose (; 74 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (set_local $3
+   (i32.sub
+    (get_local $0)
+    (get_global $~lib/internal/string/HANGUL_SBASE)
+   )
+  )
+  (if
+   (i32.lt_u
+    (get_local $3)
+    (get_global $~lib/internal/string/HANGUL_SCOUNT)
+   )
+   (block
+    (drop
+     (call $~lib/array/Array<i32>#push
+      (get_local $2)
+      (i32.add
+       (get_global $~lib/internal/string/HANGUL_LBASE)
+       (i32.div_s
+        (get_local $3)
+        (get_global $~lib/internal/string/HANGUL_NCOUNT)
+       )
+      )
+     )
+    )
+    (drop
+     (call $~lib/array/Array<i32>#push
+      (get_local $2)
+      (i32.add
+       (get_global $~lib/internal/string/HANGUL_VBASE)
+       (i32.div_s
+        (i32.rem_s
+         (get_local $3)
+         (get_global $~lib/internal/string/HANGUL_NCOUNT)
+        )
+        (get_global $~lib/internal/string/HANGUL_TCOUNT)
+       )
+      )
+     )
+    )
+    (set_local $4
+     (i32.rem_s
+      (get_local $3)
+      (get_global $~lib/internal/string/HANGUL_TCOUNT)
+     )
+    )
+    (if
+     (get_local $4)
+     (drop
+      (call $~lib/array/Array<i32>#push
+       (get_local $2)
+       (i32.add
+        (get_global $~lib/internal/string/HANGUL_TBASE)
+        (get_local $4)
+       )
+      )
+     )
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.ge_s
+    (get_local $0)
+    (i32.const 160)
+   )
+   (block
+    (set_local $4
+     (block $~lib/internal/unicode/CANONICAL_DECOMPOSITIONS|inlined.0 (result i32)
+      (i32.const 67936)
+     )
+    )
+    (set_local $5
+     (block $~lib/internal/unicode/CANONICAL_DATA|inlined.0 (result i32)
+      (i32.const 76136)
+     )
+    )
+    (set_local $6
+     (i32.const -1)
+    )
+    (if
+     (i32.and
+      (get_local $1)
+      (i32.const 1)
+     )
+     (block
+      (set_local $6
+       (call $~lib/internal/string/findRow
+        (block $~lib/internal/unicode/COMPATIBILITY_DECOMPOSITIONS|inlined.0 (result i32)
+         (i32.const 108912)
+        )
+        (i32.const 2)
+        (i32.const 0)
+        (get_local $0)
+       )
+      )
+      (if
+       (i32.ge_s
+        (get_local $6)
+        (i32.const 0)
+       )
+       (block
+        (set_local $4
+         (block $~lib/internal/unicode/COMPATIBILITY_DECOMPOSITIONS|inlined.1 (result i32)
+          (i32.const 141688)
+         )
+        )
+        (set_local $5
+         (block $~lib/internal/unicode/COMPATIBILITY_DATA|inlined.0 (result i32)
+          (i32.const 158080)
+         )
+        )
+       )
+      )
+     )
+    )
+    (if
+     (i32.lt_s
+      (get_local $6)
+      (i32.const 0)
+     )
+     (set_local $6
+      (call $~lib/internal/string/findRow
+       (get_local $4)
+       (i32.const 2)
+       (i32.const 0)
+       (get_local $0)
+      )
+     )
+    )
+    (if
+     (i32.ge_s
+      (get_local $6)
+      (i32.const 0)
+     )
+     (block
+      (set_local $7
+       (i32.shr_u
+        (call $~lib/array/Array<i32>#__get
+         (get_local $4)
+         (i32.add
+          (get_local $6)
+          (i32.const 1)
+         )
+        )
+        (i32.const 5)
+       )
+      )
+      (set_local $8
+       (i32.add
+        (get_local $7)
+        (i32.and
+         (call $~lib/array/Array<i32>#__get
+          (get_local $4)
+          (i32.add
+           (get_local $6)
+           (i32.const 1)
+          )
+         )
+         (i32.const 31)
+        )
+       )
+      )
+      (block $break|0
+       (loop $continue|0
+        (if
+         (i32.lt_s
+          (get_local $7)
+          (get_local $8)
+         )
+         (block
+          (block
+           (set_local $9
+            (i32.and
+             (call $~lib/array/Array<u16>#__get
+              (get_local $5)
+              (block (result i32)
+               (set_local $9
+                (get_local $7)
+               )
+               (set_local $7
+                (i32.add
+                 (get_local $9)
+                 (i32.const 1)
+                )
+               )
+               (get_local $9)
+              )
+             )
+             (i32.const 65535)
+            )
+           )
+           (if
+            (i32.eq
+             (i32.and
+              (get_local $9)
+              (i32.const 64512)
+             )
+             (i32.const 55296)
+            )
+            (set_local $9
+             (i32.add
+              (i32.add
+               (i32.const 65536)
+               (i32.shl
+                (i32.and
+                 (get_local $9)
+                 (i32.const 1023)
+                )
+                (i32.const 10)
+               )
+              )
+              (i32.and
+               (i32.and
+                (call $~lib/array/Array<u16>#__get
+                 (get_local $5)
+                 (block (result i32)
+                  (set_local $10
+                   (get_local $7)
+                  )
+                  (set_local $7
+                   (i32.add
+                    (get_local $10)
+                    (i32.const 1)
+                   )
+                  )
+                  (get_local $10)
+                 )
+                )
+                (i32.const 65535)
+               )
+               (i32.const 1023)
+              )
+             )
+            )
+           )
+           (drop
+            (call $~lib/array/Array<i32>#push
+             (get_local $2)
+             (get_local $9)
+            )
+           )
+          )
+          (br $continue|0)
+         )
+        )
+       )
+      )
+      (return)
+     )
+    )
+   )
+  )
+  (drop
+   (call $~lib/array/Array<i32>#push
+    (get_local $2)
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/internal/string/getCombiningRank (; 75 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (if
+   (i32.lt_s
+    (get_local $0)
+    (i32.const 768)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $1
+   (block $~lib/internal/unicode/COMBINING_CLASS_RUNS|inlined.0 (result i32)
+    (i32.const 166280)
+   )
+  )
+  (set_local $2
+   (call $~lib/internal/string/findRow
+    (get_local $1)
+    (i32.const 3)
+    (i32.const 1)
+    (get_local $0)
+   )
+  )
+  (if (result i32)
+   (i32.ge_s
+    (get_local $2)
+    (i32.const 0)
+   )
+   (call $~lib/array/Array<i32>#__get
+    (get_local $1)
+    (i32.add
+     (get_local $2)
+     (i32.const 2)
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/array/Array<i32>#__set (; 76 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.shr_u
+    (i32.load
+     (get_local $3)
+    )
+    (i32.const 2)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (get_local $4)
+   )
+   (block
+    (if
+     (i32.ge_u
+      (get_local $1)
+      (i32.const 268435454)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 35072)
+       (i32.const 134)
+       (i32.const 41)
+      )
+      (unreachable)
+     )
+    )
+    (set_local $3
+     (call $~lib/internal/arraybuffer/reallocateUnsafe
+      (get_local $3)
+      (i32.shl
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+       (i32.const 2)
+      )
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (get_local $3)
+    )
+    (i32.store offset=4
+     (get_local $0)
+     (i32.add
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+   )
+  )
+  (block $~lib/internal/arraybuffer/storeUnsafe<i32,i32>|inlined.1
+   (i32.store offset=8
+    (i32.add
+     (get_local $3)
+     (i32.shl
+      (get_local $1)
+      (i32.const 2)
+     )
+    )
+    (get_local $2)
+   )
+  )
+ )
+ (func $~lib/internal/string/composePair (; 77 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (set_local $2
+   (i32.sub
+    (get_local $0)
+    (get_global $~lib/internal/string/HANGUL_LBASE)
+   )
+  )
+  (if
+   (i32.lt_u
+    (get_local $2)
+    (get_global $~lib/internal/string/HANGUL_LCOUNT)
+   )
+   (block
+    (set_local $3
+     (i32.sub
+      (get_local $1)
+      (get_global $~lib/internal/string/HANGUL_VBASE)
+     )
+    )
+    (if
+     (i32.lt_u
+      (get_local $3)
+      (get_global $~lib/internal/string/HANGUL_VCOUNT)
+     )
+     (return
+      (i32.add
+       (get_global $~lib/internal/string/HANGUL_SBASE)
+       (i32.mul
+        (i32.add
+         (i32.mul
+          (get_local $2)
+          (get_global $~lib/internal/string/HANGUL_VCOUNT)
+         )
+         (get_local $3)
+        )
+        (get_global $~lib/internal/string/HANGUL_TCOUNT)
+       )
+      )
+     )
+    )
+    (return
+     (i32.const -1)
+    )
+   )
+  )
+  (set_local $4
+   (i32.sub
+    (get_local $0)
+    (get_global $~lib/internal/string/HANGUL_SBASE)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $3
+     (i32.lt_u
+      (get_local $4)
+      (get_global $~lib/internal/string/HANGUL_SCOUNT)
+     )
+    )
+    (i32.eqz
+     (i32.rem_s
+      (get_local $4)
+      (get_global $~lib/internal/string/HANGUL_TCOUNT)
+     )
+    )
+    (get_local $3)
+   )
+   (block
+    (set_local $3
+     (i32.sub
+      (get_local $1)
+      (get_global $~lib/internal/string/HANGUL_TBASE)
+     )
+    )
+    (if
+     (if (result i32)
+      (tee_local $5
+       (i32.gt_s
+        (get_local $3)
+        (i32.const 0)
+       )
+      )
+      (i32.lt_s
+       (get_local $3)
+       (get_global $~lib/internal/string/HANGUL_TCOUNT)
+      )
+      (get_local $5)
+     )
+     (return
+      (i32.add
+       (get_local $0)
+       (get_local $3)
+      )
+     )
+    )
+    (return
+     (i32.const -1)
+    )
+   )
+  )
+  (set_local $6
+   (block $~lib/internal/unicode/COMPOSITIONS|inlined.0 (result i32)
+    (i32.const 182672)
+   )
+  )
+  (set_local $7
+   (i32.const 0)
+  )
+  (set_local $8
+   (i32.sub
+    (i32.div_s
+     (block $~lib/array/Array<i32>#get:length|inlined.2 (result i32)
+      (i32.load offset=4
+       (get_local $6)
+      )
+     )
+     (i32.const 3)
+    )
+    (i32.const 1)
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.le_s
+      (get_local $7)
+      (get_local $8)
+     )
+     (block
+      (block
+       (set_local $3
+        (i32.shr_u
+         (i32.add
+          (get_local $7)
+          (get_local $8)
+         )
+         (i32.const 1)
+        )
+       )
+       (set_local $5
+        (i32.mul
+         (get_local $3)
+         (i32.const 3)
+        )
+       )
+       (set_local $9
+        (i32.sub
+         (get_local $0)
+         (call $~lib/array/Array<i32>#__get
+          (get_local $6)
+          (get_local $5)
+         )
+        )
+       )
+       (if
+        (i32.eqz
+         (get_local $9)
+        )
+        (set_local $9
+         (i32.sub
+          (get_local $1)
+          (call $~lib/array/Array<i32>#__get
+           (get_local $6)
+           (i32.add
+            (get_local $5)
+            (i32.const 1)
+           )
+          )
+         )
+        )
+       )
+       (if
+        (i32.lt_s
+         (get_local $9)
+         (i32.const 0)
+        )
+        (set_local $8
+         (i32.sub
+          (get_local $3)
+          (i32.const 1)
+         )
+        )
+        (if
+         (i32.gt_s
+          (get_local $9)
+          (i32.const 0)
+         )
+         (set_local $7
+          (i32.add
+           (get_local $3)
+           (i32.const 1)
+          )
+         )
+         (return
+          (call $~lib/array/Array<i32>#__get
+           (get_local $6)
+           (i32.add
+            (get_local $5)
+            (i32.const 2)
+           )
+          )
+         )
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (i32.const -1)
+ )
+ (func $~lib/internal/string/normalizeUnsafe (; 78 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (local $13 i32)
+  (local $14 i32)
+  (local $15 i32)
+  (local $16 i32)
+  (local $17 i32)
+  (local $18 i32)
+  (local $19 i32)
+  (local $20 i32)
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (if (result i32)
+    (i32.and
+     (get_local $2)
+     (i32.const 1)
+    )
+    (i32.const 160)
+    (if (result i32)
+     (i32.and
+      (get_local $1)
+      (i32.const 1)
+     )
+     (i32.const 768)
+     (i32.const 192)
+    )
+   )
+  )
+  (set_local $5
+   (i32.const 0)
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (if (result i32)
+      (tee_local $6
+       (i32.lt_s
+        (get_local $5)
+        (get_local $3)
+       )
+      )
+      (i32.lt_s
+       (i32.load16_u offset=4
+        (i32.add
+         (get_local $0)
+         (i32.shl
+          (get_local $5)
+          (i32.const 1)
+         )
+        )
+       )
+       (get_local $4)
+      )
+      (get_local $6)
+     )
+     (block
+      (set_local $5
+       (i32.add
+        (get_local $5)
+        (i32.const 1)
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $5)
+    (get_local $3)
+   )
+   (return
+    (get_local $0)
+   )
+  )
+  (set_local $7
+   (call $~lib/array/Array<i32>#constructor
+    (i32.const 0)
+    (i32.const 0)
+   )
+  )
+  (block $break|1
+   (set_local $6
+    (i32.const 0)
+   )
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.eqz
+      (i32.lt_s
+       (get_local $6)
+       (get_local $5)
+      )
+     )
+    )
+    (drop
+     (call $~lib/array/Array<i32>#push
+      (get_local $7)
+      (i32.load16_u offset=4
+       (i32.add
+        (get_local $0)
+        (i32.shl
+         (get_local $6)
+         (i32.const 1)
+        )
+       )
+      )
+     )
+    )
+    (set_local $6
+     (i32.add
+      (get_local $6)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|1)
+   )
+  )
+  (block $break|2
+   (loop $continue|2
+    (if
+     (i32.lt_s
+      (get_local $5)
+      (get_local $3)
+     )
+     (block
+      (block
+       (set_local $6
+        (block $~lib/internal/string/loadCodePoint|inlined.0 (result i32)
+         (set_local $6
+          (i32.load16_u offset=4
+           (i32.add
+            (get_local $0)
+            (i32.shl
+             (get_local $5)
+             (i32.const 1)
+            )
+           )
+          )
+         )
+         (if
+          (if (result i32)
+           (tee_local $8
+            (i32.eq
+             (i32.and
+              (get_local $6)
+              (i32.const 64512)
+             )
+             (i32.const 55296)
+            )
+           )
+           (i32.lt_s
+            (i32.add
+             (get_local $5)
+             (i32.const 1)
+            )
+            (get_local $3)
+           )
+           (get_local $8)
+          )
+          (block
+           (set_local $8
+            (i32.load16_u offset=6
+             (i32.add
+              (get_local $0)
+              (i32.shl
+               (get_local $5)
+               (i32.const 1)
+              )
+             )
+            )
+           )
+           (if
+            (i32.eq
+             (i32.and
+              (get_local $8)
+              (i32.const 64512)
+             )
+             (i32.const 56320)
+            )
+            (br $~lib/internal/string/loadCodePoint|inlined.0
+             (i32.add
+              (i32.add
+               (i32.const 65536)
+               (i32.shl
+                (i32.and
+                 (get_local $6)
+                 (i32.const 1023)
+                )
+                (i32.const 10)
+               )
+              )
+              (i32.and
+               (get_local $8)
+               (i32.const 1023)
+              )
+             )
+            )
+           )
+          )
+         )
+         (get_local $6)
+        )
+       )
+       (set_local $5
+        (i32.add
+         (get_local $5)
+         (i32.add
+          (i32.const 1)
+          (i32.ge_s
+           (get_local $6)
+           (i32.const 65536)
+          )
+         )
+        )
+       )
+       (call $~lib/internal/string/decompose
+        (get_local $6)
+        (get_local $2)
+        (get_local $7)
+       )
+      )
+      (br $continue|2)
+     )
+    )
+   )
+  )
+  (set_local $9
+   (block $~lib/array/Array<i32>#get:length|inlined.1 (result i32)
+    (i32.load offset=4
+     (get_local $7)
+    )
+   )
+  )
+  (set_local $10
+   (call $~lib/array/Array<i32>#constructor
+    (i32.const 0)
+    (get_local $9)
+   )
+  )
+  (block $break|3
+   (set_local $6
+    (i32.const 0)
+   )
+   (loop $repeat|3
+    (block $continue|3
+     (br_if $break|3
+      (i32.eqz
+       (i32.lt_s
+        (get_local $6)
+        (get_local $9)
+       )
+      )
+     )
+     (block
+      (set_local $8
+       (call $~lib/internal/string/getCombiningRank
+        (call $~lib/array/Array<i32>#__get
+         (get_local $7)
+         (get_local $6)
+        )
+       )
+      )
+      (call $~lib/array/Array<i32>#__set
+       (get_local $10)
+       (get_local $6)
+       (get_local $8)
+      )
+      (if
+       (i32.eqz
+        (get_local $8)
+       )
+       (br $continue|3)
+      )
+      (block $break|4
+       (set_local $11
+        (get_local $6)
+       )
+       (loop $repeat|4
+        (block $continue|4
+         (br_if $break|4
+          (i32.eqz
+           (i32.gt_s
+            (get_local $11)
+            (i32.const 0)
+           )
+          )
+         )
+         (block
+          (set_local $12
+           (call $~lib/array/Array<i32>#__get
+            (get_local $10)
+            (i32.sub
+             (get_local $11)
+             (i32.const 1)
+            )
+           )
+          )
+          (if
+           (i32.le_s
+            (get_local $12)
+            (get_local $8)
+           )
+           (br $break|4)
+          )
+          (call $~lib/array/Array<i32>#__set
+           (get_local $10)
+           (i32.sub
+            (get_local $11)
+            (i32.const 1)
+           )
+           (get_local $8)
+          )
+          (call $~lib/array/Array<i32>#__set
+           (get_local $10)
+           (get_local $11)
+           (get_local $12)
+          )
+          (set_local $13
+           (call $~lib/array/Array<i32>#__get
+            (get_local $7)
+            (i32.sub
+             (get_local $11)
+             (i32.const 1)
+            )
+           )
+          )
+          (call $~lib/array/Array<i32>#__set
+           (get_local $7)
+           (i32.sub
+            (get_local $11)
+            (i32.const 1)
+           )
+           (call $~lib/array/Array<i32>#__get
+            (get_local $7)
+            (get_local $11)
+           )
+          )
+          (call $~lib/array/Array<i32>#__set
+           (get_local $7)
+           (get_local $11)
+           (get_local $13)
+          )
+         )
+        )
+        (set_local $11
+         (i32.sub
+          (get_local $11)
+          (i32.const 1)
+         )
+        )
+        (br $repeat|4)
+       )
+      )
+     )
+    )
+    (set_local $6
+     (i32.add
+      (get_local $6)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|3)
+   )
+  )
+  (if
+   (i32.and
+    (if (result i32)
+     (i32.and
+      (get_local $1)
+      (i32.const 1)
+     )
+     (i32.gt_s
+      (get_local $9)
+      (i32.const 1)
+     )
+     (get_local $1)
+    )
+    (i32.const 1)
+   )
+   (block
+    (set_local $6
+     (i32.const 0)
+    )
+    (set_local $8
+     (call $~lib/array/Array<i32>#__get
+      (get_local $7)
+      (i32.const 0)
+     )
+    )
+    (set_local $11
+     (if (result i32)
+      (call $~lib/array/Array<i32>#__get
+       (get_local $10)
+       (i32.const 0)
+      )
+      (i32.const 256)
+      (i32.const 0)
+     )
+    )
+    (set_local $13
+     (i32.const 1)
+    )
+    (block $break|5
+     (set_local $12
+      (i32.const 1)
+     )
+     (loop $repeat|5
+      (br_if $break|5
+       (i32.eqz
+        (i32.lt_s
+         (get_local $12)
+         (get_local $9)
+        )
+       )
+      )
+      (block
+       (set_local $14
+        (call $~lib/array/Array<i32>#__get
+         (get_local $7)
+         (get_local $12)
+        )
+       )
+       (set_local $15
+        (call $~lib/array/Array<i32>#__get
+         (get_local $10)
+         (get_local $12)
+        )
+       )
+       (set_local $16
+        (if (result i32)
+         (if (result i32)
+          (tee_local $16
+           (i32.lt_s
+            (get_local $11)
+            (get_local $15)
+           )
+          )
+          (get_local $16)
+          (i32.eqz
+           (get_local $11)
+          )
+         )
+         (call $~lib/internal/string/composePair
+          (get_local $8)
+          (get_local $14)
+         )
+         (i32.const -1)
+        )
+       )
+       (if
+        (i32.ge_s
+         (get_local $16)
+         (i32.const 0)
+        )
+        (block
+         (call $~lib/array/Array<i32>#__set
+          (get_local $7)
+          (get_local $6)
+          (get_local $16)
+         )
+         (set_local $8
+          (get_local $16)
+         )
+        )
+        (block
+         (if
+          (i32.eqz
+           (get_local $15)
+          )
+          (block
+           (set_local $6
+            (get_local $13)
+           )
+           (set_local $8
+            (get_local $14)
+           )
+          )
+         )
+         (set_local $11
+          (get_local $15)
+         )
+         (call $~lib/array/Array<i32>#__set
+          (get_local $7)
+          (block (result i32)
+           (set_local $17
+            (get_local $13)
+           )
+           (set_local $13
+            (i32.add
+             (get_local $17)
+             (i32.const 1)
+            )
+           )
+           (get_local $17)
+          )
+          (get_local $14)
+         )
+        )
+       )
+      )
+      (set_local $12
+       (i32.add
+        (get_local $12)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|5)
+     )
+    )
+    (set_local $9
+     (get_local $13)
+    )
+   )
+  )
+  (set_local $18
+   (get_local $9)
+  )
+  (block $break|6
+   (set_local $13
+    (i32.const 0)
+   )
+   (loop $repeat|6
+    (br_if $break|6
+     (i32.eqz
+      (i32.lt_s
+       (get_local $13)
+       (get_local $9)
+      )
+     )
+    )
+    (set_local $18
+     (i32.add
+      (get_local $18)
+      (i32.ge_s
+       (call $~lib/array/Array<i32>#__get
+        (get_local $7)
+        (get_local $13)
+       )
+       (i32.const 65536)
+      )
+     )
+    )
+    (set_local $13
+     (i32.add
+      (get_local $13)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|6)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $18)
+   )
+   (return
+    (i32.const 256)
+   )
+  )
+  (set_local $19
+   (call $~lib/internal/string/allocateUnsafe
+    (get_local $18)
+   )
+  )
+  (set_local $20
+   (i32.const 0)
+  )
+  (block $break|7
+   (set_local $13
+    (i32.const 0)
+   )
+   (loop $repeat|7
+    (br_if $break|7
+     (i32.eqz
+      (i32.lt_s
+       (get_local $13)
+       (get_local $9)
+      )
+     )
+    )
+    (block
+     (set_local $11
+      (call $~lib/array/Array<i32>#__get
+       (get_local $7)
+       (get_local $13)
+      )
+     )
+     (if
+      (i32.lt_s
+       (get_local $11)
+       (i32.const 65536)
+      )
+      (block
+       (i32.store16 offset=4
+        (i32.add
+         (get_local $19)
+         (i32.shl
+          (get_local $20)
+          (i32.const 1)
+         )
+        )
+        (get_local $11)
+       )
+       (set_local $20
+        (i32.add
+         (get_local $20)
+         (i32.const 1)
+        )
+       )
+      )
+      (block
+       (set_local $11
+        (i32.sub
+         (get_local $11)
+         (i32.const 65536)
+        )
+       )
+       (i32.store16 offset=4
+        (i32.add
+         (get_local $19)
+         (i32.shl
+          (get_local $20)
+          (i32.const 1)
+         )
+        )
+        (i32.add
+         (i32.shr_u
+          (get_local $11)
+          (i32.const 10)
+         )
+         (i32.const 55296)
+        )
+       )
+       (i32.store16 offset=6
+        (i32.add
+         (get_local $19)
+         (i32.shl
+          (get_local $20)
+          (i32.const 1)
+         )
+        )
+        (i32.add
+         (i32.and
+          (get_local $11)
+          (i32.const 1023)
+         )
+         (i32.const 56320)
+        )
+       )
+       (set_local $20
+        (i32.add
+         (get_local $20)
+         (i32.const 2)
+        )
+       )
+      )
+     )
+    )
+    (set_local $13
+     (i32.add
+      (get_local $13)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|7)
+   )
+  )
+  (get_local $19)
+ )
+ (func $~lib/internal/string/isCased (; 79 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.ge_s
+   (call $~lib/internal/string/findRow
+    (block $~lib/internal/unicode/CASED_RANGES|inlined.0 (result i32)
+     (i32.const 195032)
+    )
+    (i32.const 2)
+    (i32.const 1)
+    (get_local $0)
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/internal/string/isCaseIgnorable (; 80 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.ge_s
+   (call $~lib/internal/string/findRow
+    (block $~lib/internal/unicode/CASE_IGNORABLE_RANGES|inlined.0 (result i32)
+     (i32.const 199136)
+    )
+    (i32.const 2)
+    (i32.const 1)
+    (get_local $0)
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/internal/string/isFinalSigma (; 81 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $3
+   (i32.const 0)
+  )
+  (block $break|0
+   (set_local $4
+    (get_local $1)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.gt_s
+       (get_local $4)
+       (i32.const 0)
+      )
+     )
+    )
+    (block
+     (set_local $5
+      (block $~lib/internal/string/loadCodePointBefore|inlined.0 (result i32)
+       (set_local $5
+        (i32.load16_u offset=4
+         (i32.add
+          (get_local $0)
+          (i32.shl
+           (i32.sub
+            (get_local $4)
+            (i32.const 1)
+           )
+           (i32.const 1)
+          )
+         )
+        )
+       )
+       (if
+        (if (result i32)
+         (tee_local $6
+          (i32.eq
+           (i32.and
+            (get_local $5)
+            (i32.const 64512)
+           )
+           (i32.const 56320)
+          )
+         )
+         (i32.gt_s
+          (get_local $4)
+          (i32.const 1)
+         )
+         (get_local $6)
+        )
+        (block
+         (set_local $6
+          (i32.load16_u offset=4
+           (i32.add
+            (get_local $0)
+            (i32.shl
+             (i32.sub
+              (get_local $4)
+              (i32.const 2)
+             )
+             (i32.const 1)
+            )
+           )
+          )
+         )
+         (if
+          (i32.eq
+           (i32.and
+            (get_local $6)
+            (i32.const 64512)
+           )
+           (i32.const 55296)
+          )
+          (br $~lib/internal/string/loadCodePointBefore|inlined.0
+           (i32.add
+            (i32.add
+             (i32.const 65536)
+             (i32.shl
+              (i32.and
+               (get_local $6)
+               (i32.const 1023)
+              )
+              (i32.const 10)
+             )
+            )
+            (i32.and
+             (get_local $5)
+             (i32.const 1023)
+            )
+           )
+          )
+         )
+        )
+       )
+       (get_local $5)
+      )
+     )
+     (set_local $4
+      (i32.sub
+       (get_local $4)
+       (i32.add
+        (i32.const 1)
+        (i32.ge_s
+         (get_local $5)
+         (i32.const 65536)
+        )
+       )
+      )
+     )
+     (if
+      (call $~lib/internal/string/isCased
+       (get_local $5)
+      )
+      (block
+       (set_local $3
+        (i32.const 1)
+       )
+       (br $break|0)
+      )
+     )
+     (if
+      (i32.eqz
+       (call $~lib/internal/string/isCaseIgnorable
+        (get_local $5)
+       )
+      )
+      (br $break|0)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $3)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (block $break|1
+   (set_local $4
+    (i32.add
+     (get_local $1)
+     (i32.const 1)
+    )
+   )
+   (loop $repeat|1
+    (br_if $break|1
+     (i32.eqz
+      (i32.lt_s
+       (get_local $4)
+       (get_local $2)
+      )
+     )
+    )
+    (block
+     (set_local $5
+      (block $~lib/internal/string/loadCodePoint|inlined.2 (result i32)
+       (set_local $5
+        (i32.load16_u offset=4
+         (i32.add
+          (get_local $0)
+          (i32.shl
+           (get_local $4)
+           (i32.const 1)
+          )
+         )
+        )
+       )
+       (if
+        (if (result i32)
+         (tee_local $6
+          (i32.eq
+           (i32.and
+            (get_local $5)
+            (i32.const 64512)
+           )
+           (i32.const 55296)
+          )
+         )
+         (i32.lt_s
+          (i32.add
+           (get_local $4)
+           (i32.const 1)
+          )
+          (get_local $2)
+         )
+         (get_local $6)
+        )
+        (block
+         (set_local $6
+          (i32.load16_u offset=6
+           (i32.add
+            (get_local $0)
+            (i32.shl
+             (get_local $4)
+             (i32.const 1)
+            )
+           )
+          )
+         )
+         (if
+          (i32.eq
+           (i32.and
+            (get_local $6)
+            (i32.const 64512)
+           )
+           (i32.const 56320)
+          )
+          (br $~lib/internal/string/loadCodePoint|inlined.2
+           (i32.add
+            (i32.add
+             (i32.const 65536)
+             (i32.shl
+              (i32.and
+               (get_local $5)
+               (i32.const 1023)
+              )
+              (i32.const 10)
+             )
+            )
+            (i32.and
+             (get_local $6)
+             (i32.const 1023)
+            )
+           )
+          )
+         )
+        )
+       )
+       (get_local $5)
+      )
+     )
+     (set_local $4
+      (i32.add
+       (get_local $4)
+       (i32.add
+        (i32.const 1)
+        (i32.ge_s
+         (get_local $5)
+         (i32.const 65536)
+        )
+       )
+      )
+     )
+     (if
+      (call $~lib/internal/string/isCased
+       (get_local $5)
+      )
+      (return
+       (i32.const 0)
+      )
+     )
+     (if
+      (i32.eqz
+       (call $~lib/internal/string/isCaseIgnorable
+        (get_local $5)
+       )
+      )
+      (br $break|1)
+     )
+    )
+    (br $repeat|1)
+   )
+  )
+  (i32.const 1)
+ )
+ (func $~lib/internal/string/toCaseUnsafe (; 82 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (local $13 i32)
+  (local $14 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (if (result i32)
+    (i32.and
+     (get_local $1)
+     (i32.const 1)
+    )
+    (block $~lib/internal/unicode/UPPER_CASE_RUNS|inlined.0 (result i32)
+     (i32.const 186776)
+    )
+    (block $~lib/internal/unicode/LOWER_CASE_RUNS|inlined.0 (result i32)
+     (i32.const 190880)
+    )
+   )
+  )
+  (set_local $4
+   (if (result i32)
+    (i32.and
+     (get_local $1)
+     (i32.const 1)
+    )
+    (block $~lib/internal/unicode/UPPER_CASE_SPECIALS|inlined.0 (result i32)
+     (i32.const 192936)
+    )
+    (block $~lib/internal/unicode/LOWER_CASE_SPECIALS|inlined.0 (result i32)
+     (i32.const 192976)
+    )
+   )
+  )
+  (set_local $5
+   (i32.const 0)
+  )
+  (set_local $6
+   (i32.const 0)
+  )
+  (block $break|0
+   (set_local $7
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_s
+       (get_local $7)
+       (i32.const 2)
+      )
+     )
+    )
+    (block
+     (set_local $8
+      (i32.const 0)
+     )
+     (block $break|1
+      (set_local $9
+       (i32.const 0)
+      )
+      (loop $repeat|1
+       (block $continue|1
+        (br_if $break|1
+         (i32.eqz
+          (i32.lt_s
+           (get_local $9)
+           (get_local $2)
+          )
+         )
+        )
+        (block
+         (set_local $10
+          (block $~lib/internal/string/loadCodePoint|inlined.1 (result i32)
+           (set_local $10
+            (i32.load16_u offset=4
+             (i32.add
+              (get_local $0)
+              (i32.shl
+               (get_local $9)
+               (i32.const 1)
+              )
+             )
+            )
+           )
+           (if
+            (if (result i32)
+             (tee_local $11
+              (i32.eq
+               (i32.and
+                (get_local $10)
+                (i32.const 64512)
+               )
+               (i32.const 55296)
+              )
+             )
+             (i32.lt_s
+              (i32.add
+               (get_local $9)
+               (i32.const 1)
+              )
+              (get_local $2)
+             )
+             (get_local $11)
+            )
+            (block
+             (set_local $11
+              (i32.load16_u offset=6
+               (i32.add
+                (get_local $0)
+                (i32.shl
+                 (get_local $9)
+                 (i32.const 1)
+                )
+               )
+              )
+             )
+             (if
+              (i32.eq
+               (i32.and
+                (get_local $11)
+                (i32.const 64512)
+               )
+               (i32.const 56320)
+              )
+              (br $~lib/internal/string/loadCodePoint|inlined.1
+               (i32.add
+                (i32.add
+                 (i32.const 65536)
+                 (i32.shl
+                  (i32.and
+                   (get_local $10)
+                   (i32.const 1023)
+                  )
+                  (i32.const 10)
+                 )
+                )
+                (i32.and
+                 (get_local $11)
+                 (i32.const 1023)
+                )
+               )
+              )
+             )
+            )
+           )
+           (get_local $10)
+          )
+         )
+         (set_local $11
+          (get_local $10)
+         )
+         (if
+          (i32.lt_s
+           (get_local $10)
+           (i32.const 128)
+          )
+          (if
+           (if (result i32)
+            (i32.and
+             (get_local $1)
+             (i32.const 1)
+            )
+            (if (result i32)
+             (tee_local $12
+              (i32.ge_s
+               (get_local $10)
+               (i32.const 97)
+              )
+             )
+             (i32.le_s
+              (get_local $10)
+              (i32.const 122)
+             )
+             (get_local $12)
+            )
+            (if (result i32)
+             (tee_local $12
+              (i32.ge_s
+               (get_local $10)
+               (i32.const 65)
+              )
+             )
+             (i32.le_s
+              (get_local $10)
+              (i32.const 90)
+             )
+             (get_local $12)
+            )
+           )
+           (set_local $11
+            (i32.xor
+             (get_local $11)
+             (i32.const 32)
+            )
+           )
+          )
+          (block
+           (set_local $12
+            (call $~lib/internal/string/findRow
+             (get_local $4)
+             (i32.const 4)
+             (i32.const 0)
+             (get_local $10)
+            )
+           )
+           (if
+            (i32.ge_s
+             (get_local $12)
+             (i32.const 0)
+            )
+            (block
+             (block $break|2
+              (set_local $13
+               (i32.const 1)
+              )
+              (loop $repeat|2
+               (br_if $break|2
+                (i32.eqz
+                 (i32.lt_s
+                  (get_local $13)
+                  (i32.const 4)
+                 )
+                )
+               )
+               (block
+                (set_local $14
+                 (call $~lib/array/Array<i32>#__get
+                  (get_local $4)
+                  (i32.add
+                   (get_local $12)
+                   (get_local $13)
+                  )
+                 )
+                )
+                (if
+                 (i32.eqz
+                  (get_local $14)
+                 )
+                 (br $break|2)
+                )
+                (if
+                 (get_local $6)
+                 (i32.store16 offset=4
+                  (i32.add
+                   (get_local $6)
+                   (i32.shl
+                    (get_local $8)
+                    (i32.const 1)
+                   )
+                  )
+                  (get_local $14)
+                 )
+                )
+                (set_local $8
+                 (i32.add
+                  (get_local $8)
+                  (i32.const 1)
+                 )
+                )
+               )
+               (set_local $13
+                (i32.add
+                 (get_local $13)
+                 (i32.const 1)
+                )
+               )
+               (br $repeat|2)
+              )
+             )
+             (set_local $9
+              (i32.add
+               (get_local $9)
+               (i32.add
+                (i32.const 1)
+                (i32.ge_s
+                 (get_local $10)
+                 (i32.const 65536)
+                )
+               )
+              )
+             )
+             (set_local $5
+              (i32.const 1)
+             )
+             (br $continue|1)
+            )
+           )
+           (if
+            (if (result i32)
+             (tee_local $13
+              (if (result i32)
+               (tee_local $13
+                (i32.eqz
+                 (i32.and
+                  (get_local $1)
+                  (i32.const 1)
+                 )
+                )
+               )
+               (i32.eq
+                (get_local $10)
+                (i32.const 931)
+               )
+               (get_local $13)
+              )
+             )
+             (call $~lib/internal/string/isFinalSigma
+              (get_local $0)
+              (get_local $9)
+              (get_local $2)
+             )
+             (get_local $13)
+            )
+            (set_local $11
+             (i32.const 962)
+            )
+            (block
+             (set_local $12
+              (call $~lib/internal/string/findRow
+               (get_local $3)
+               (i32.const 4)
+               (i32.const 1)
+               (get_local $10)
+              )
+             )
+             (if
+              (if (result i32)
+               (tee_local $13
+                (i32.ge_s
+                 (get_local $12)
+                 (i32.const 0)
+                )
+               )
+               (i32.eqz
+                (i32.rem_s
+                 (i32.sub
+                  (get_local $10)
+                  (call $~lib/array/Array<i32>#__get
+                   (get_local $3)
+                   (get_local $12)
+                  )
+                 )
+                 (call $~lib/array/Array<i32>#__get
+                  (get_local $3)
+                  (i32.add
+                   (get_local $12)
+                   (i32.const 2)
+                  )
+                 )
+                )
+               )
+               (get_local $13)
+              )
+              (set_local $11
+               (i32.add
+                (get_local $11)
+                (call $~lib/array/Array<i32>#__get
+                 (get_local $3)
+                 (i32.add
+                  (get_local $12)
+                  (i32.const 3)
+                 )
+                )
+               )
+              )
+             )
+            )
+           )
+          )
+         )
+         (if
+          (i32.lt_s
+           (get_local $11)
+           (i32.const 65536)
+          )
+          (block
+           (if
+            (get_local $6)
+            (i32.store16 offset=4
+             (i32.add
+              (get_local $6)
+              (i32.shl
+               (get_local $8)
+               (i32.const 1)
+              )
+             )
+             (get_local $11)
+            )
+           )
+           (set_local $8
+            (i32.add
+             (get_local $8)
+             (i32.const 1)
+            )
+           )
+          )
+          (block
+           (if
+            (get_local $6)
+            (block
+             (set_local $11
+              (i32.sub
+               (get_local $11)
+               (i32.const 65536)
+              )
+             )
+             (i32.store16 offset=4
+              (i32.add
+               (get_local $6)
+               (i32.shl
+                (get_local $8)
+                (i32.const 1)
+               )
+              )
+              (i32.add
+               (i32.shr_u
+                (get_local $11)
+                (i32.const 10)
+               )
+               (i32.const 55296)
+              )
+             )
+             (i32.store16 offset=6
+              (i32.add
+               (get_local $6)
+               (i32.shl
+                (get_local $8)
+                (i32.const 1)
+               )
+              )
+              (i32.add
+               (i32.and
+                (get_local $11)
+                (i32.const 1023)
+               )
+               (i32.const 56320)
+              )
+             )
+            )
+           )
+           (set_local $8
+            (i32.add
+             (get_local $8)
+             (i32.const 2)
+            )
+           )
+          )
+         )
+         (if
+          (i32.ne
+           (get_local $11)
+           (get_local $10)
+          )
+          (set_local $5
+           (i32.const 1)
+          )
+         )
+         (set_local $9
+          (i32.add
+           (get_local $9)
+           (i32.add
+            (i32.const 1)
+            (i32.ge_s
+             (get_local $10)
+             (i32.const 65536)
+            )
+           )
+          )
+         )
+        )
+       )
+       (br $repeat|1)
+      )
+     )
+     (if
+      (i32.eqz
+       (get_local $6)
+      )
+      (block
+       (if
+        (i32.eqz
+         (get_local $5)
+        )
+        (return
+         (get_local $0)
+        )
+       )
+       (set_local $6
+        (call $~lib/internal/string/allocateUnsafe
+         (get_local $8)
+        )
+       )
+      )
+     )
+    )
+    (set_local $7
+     (i32.add
+      (get_local $7)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $6)
+ )
+ (func $~lib/internal/string/localeCompareUnsafe (; 83 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (local $13 i32)
+  (local $14 i32)
+  (set_local $2
+   (call $~lib/internal/string/normalizeUnsafe
+    (get_local $0)
+    (i32.const 0)
+    (i32.const 0)
+   )
+  )
+  (set_local $3
+   (call $~lib/internal/string/normalizeUnsafe
+    (get_local $1)
+    (i32.const 0)
+    (i32.const 0)
+   )
+  )
+  (set_local $4
+   (call $~lib/internal/string/toCaseUnsafe
+    (get_local $2)
+    (i32.const 0)
+   )
+  )
+  (set_local $5
+   (call $~lib/internal/string/toCaseUnsafe
+    (get_local $3)
+    (i32.const 0)
+   )
+  )
+  (set_local $6
+   (i32.load
+    (get_local $4)
+   )
+  )
+  (set_local $7
+   (i32.load
+    (get_local $5)
+   )
+  )
+  (set_local $8
+   (i32.const 0)
+  )
+  (set_local $9
+   (i32.const 0)
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.const 1)
+     (block
+      (block
+       (set_local $10
+        (i32.const -1)
+       )
+       (set_local $11
+        (i32.const -1)
+       )
+       (block $break|1
+        (loop $continue|1
+         (if
+          (i32.lt_s
+           (get_local $8)
+           (get_local $6)
+          )
+          (block
+           (block
+            (set_local $10
+             (block $~lib/internal/string/loadCodePoint|inlined.3 (result i32)
+              (set_local $12
+               (i32.load16_u offset=4
+                (i32.add
+                 (get_local $4)
+                 (i32.shl
+                  (get_local $8)
+                  (i32.const 1)
+                 )
+                )
+               )
+              )
+              (if
+               (if (result i32)
+                (tee_local $13
+                 (i32.eq
+                  (i32.and
+                   (get_local $12)
+                   (i32.const 64512)
+                  )
+                  (i32.const 55296)
+                 )
+                )
+                (i32.lt_s
+                 (i32.add
+                  (get_local $8)
+                  (i32.const 1)
+                 )
+                 (get_local $6)
+                )
+                (get_local $13)
+               )
+               (block
+                (set_local $13
+                 (i32.load16_u offset=6
+                  (i32.add
+                   (get_local $4)
+                   (i32.shl
+                    (get_local $8)
+                    (i32.const 1)
+                   )
+                  )
+                 )
+                )
+                (if
+                 (i32.eq
+                  (i32.and
+                   (get_local $13)
+                   (i32.const 64512)
+                  )
+                  (i32.const 56320)
+                 )
+                 (br $~lib/internal/string/loadCodePoint|inlined.3
+                  (i32.add
+                   (i32.add
+                    (i32.const 65536)
+                    (i32.shl
+                     (i32.and
+                      (get_local $12)
+                      (i32.const 1023)
+                     )
+                     (i32.const 10)
+                    )
+                   )
+                   (i32.and
+                    (get_local $13)
+                    (i32.const 1023)
+                   )
+                  )
+                 )
+                )
+               )
+              )
+              (get_local $12)
+             )
+            )
+            (set_local $8
+             (i32.add
+              (get_local $8)
+              (i32.add
+               (i32.const 1)
+               (i32.ge_s
+                (get_local $10)
+                (i32.const 65536)
+               )
+              )
+             )
+            )
+            (if
+             (i32.eqz
+              (call $~lib/internal/string/getCombiningRank
+               (get_local $10)
+              )
+             )
+             (br $break|1)
+            )
+            (set_local $10
+             (i32.const -1)
+            )
+           )
+           (br $continue|1)
+          )
+         )
+        )
+       )
+       (block $break|2
+        (loop $continue|2
+         (if
+          (i32.lt_s
+           (get_local $9)
+           (get_local $7)
+          )
+          (block
+           (block
+            (set_local $11
+             (block $~lib/internal/string/loadCodePoint|inlined.4 (result i32)
+              (set_local $12
+               (i32.load16_u offset=4
+                (i32.add
+                 (get_local $5)
+                 (i32.shl
+                  (get_local $9)
+                  (i32.const 1)
+                 )
+                )
+               )
+              )
+              (if
+               (if (result i32)
+                (tee_local $13
+                 (i32.eq
+                  (i32.and
+                   (get_local $12)
+                   (i32.const 64512)
+                  )
+                  (i32.const 55296)
+                 )
+                )
+                (i32.lt_s
+                 (i32.add
+                  (get_local $9)
+                  (i32.const 1)
+                 )
+                 (get_local $7)
+                )
+                (get_local $13)
+               )
+               (block
+                (set_local $13
+                 (i32.load16_u offset=6
+                  (i32.add
+                   (get_local $5)
+                   (i32.shl
+                    (get_local $9)
+                    (i32.const 1)
+                   )
+                  )
+                 )
+                )
+                (if
+                 (i32.eq
+                  (i32.and
+                   (get_local $13)
+                   (i32.const 64512)
+                  )
+                  (i32.const 56320)
+                 )
+                 (br $~lib/internal/string/loadCodePoint|inlined.4
+                  (i32.add
+                   (i32.add
+                    (i32.const 65536)
+                    (i32.shl
+                     (i32.and
+                      (get_local $12)
+                      (i32.const 1023)
+                     )
+                     (i32.const 10)
+                    )
+                   )
+                   (i32.and
+                    (get_local $13)
+                    (i32.const 1023)
+                   )
+                  )
+                 )
+                )
+               )
+              )
+              (get_local $12)
+             )
+            )
+            (set_local $9
+             (i32.add
+              (get_local $9)
+              (i32.add
+               (i32.const 1)
+               (i32.ge_s
+                (get_local $11)
+                (i32.const 65536)
+               )
+              )
+             )
+            )
+            (if
+             (i32.eqz
+              (call $~lib/internal/string/getCombiningRank
+               (get_local $11)
+              )
+             )
+             (br $break|2)
+            )
+            (set_local $11
+             (i32.const -1)
+            )
+           )
+           (br $continue|2)
+          )
+         )
+        )
+       )
+       (if
+        (i32.ne
+         (get_local $10)
+         (get_local $11)
+        )
+        (return
+         (if (result i32)
+          (i32.lt_s
+           (get_local $10)
+           (get_local $11)
+          )
+          (i32.const -1)
+          (i32.const 1)
+         )
+        )
+       )
+       (if
+        (i32.lt_s
+         (get_local $10)
+         (i32.const 0)
+        )
+        (br $break|0)
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (set_local $14
+   (call $~lib/internal/string/compareUnsafe
+    (get_local $4)
+    (i32.const 0)
+    (get_local $5)
+    (i32.const 0)
+    (select
+     (tee_local $11
+      (get_local $6)
+     )
+     (tee_local $10
+      (get_local $7)
+     )
+     (i32.lt_s
+      (get_local $11)
+      (get_local $10)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $14)
+   )
+   (set_local $14
+    (i32.sub
+     (get_local $6)
+     (get_local $7)
+    )
+   )
+  )
+  (if
+   (get_local $14)
+   (return
+    (if (result i32)
+     (i32.lt_s
+      (get_local $14)
+      (i32.const 0)
+     )
+     (i32.const -1)
+     (i32.const 1)
+    )
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $11
+     (i32.eq
+      (i32.load
+       (get_local $2)
+      )
+      (get_local $6)
+     )
+    )
+    (i32.eq
+     (i32.load
+      (get_local $3)
+     )
+     (get_local $7)
+    )
+    (get_local $11)
+   )
+   (block
+    (block $break|3
+     (set_local $11
+      (i32.const 0)
+     )
+     (loop $repeat|3
+      (br_if $break|3
+       (i32.eqz
+        (i32.lt_s
+         (get_local $11)
+         (get_local $6)
+        )
+       )
+      )
+      (block
+       (set_local $10
+        (i32.load16_u offset=4
+         (i32.add
+          (get_local $2)
+          (i32.shl
+           (get_local $11)
+           (i32.const 1)
+          )
+         )
+        )
+       )
+       (set_local $12
+        (i32.load16_u offset=4
+         (i32.add
+          (get_local $3)
+          (i32.shl
+           (get_local $11)
+           (i32.const 1)
+          )
+         )
+        )
+       )
+       (if
+        (i32.ne
+         (get_local $10)
+         (get_local $12)
+        )
+        (return
+         (if (result i32)
+          (i32.eq
+           (get_local $10)
+           (i32.load16_u offset=4
+            (i32.add
+             (get_local $4)
+             (i32.shl
+              (get_local $11)
+              (i32.const 1)
+             )
+            )
+           )
+          )
+          (i32.const -1)
+          (i32.const 1)
+         )
+        )
+       )
+      )
+      (set_local $11
+       (i32.add
+        (get_local $11)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|3)
+     )
+    )
+    (return
+     (i32.const 0)
+    )
+   )
+  )
+  (set_local $14
+   (call $~lib/internal/string/compareUnsafe
+    (get_local $2)
+    (i32.const 0)
+    (get_local $3)
+    (i32.const 0)
+    (select
+     (tee_local $11
+      (i32.load
+       (get_local $2)
+      )
+     )
+     (tee_local $12
+      (i32.load
+       (get_local $3)
+      )
+     )
+     (i32.lt_s
+      (get_local $11)
+      (get_local $12)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $14)
+   )
+   (set_local $14
+    (i32.sub
+     (i32.load
+      (get_local $2)
+     )
+     (i32.load
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (i32.sub
+   (i32.gt_s
+    (get_local $14)
+    (i32.const 0)
+   )
+   (i32.lt_s
+    (get_local $14)
+    (i32.const 0)
+   )
+  )
+ )
+ (func $~lib/string/String#localeCompare (; 84 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (if
+   (i32.eqz
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 80)
+     (i32.const 264)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 0)
+   )
+   (set_local $1
+    (i32.const 200)
+   )
+  )
+  (call $~lib/internal/string/localeCompareUnsafe
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $~lib/string/String#substring (; 85 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (if
+   (i32.eqz
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 80)
+     (i32.const 304)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $6
+   (select
+    (tee_local $4
+     (select
+      (tee_local $4
+       (get_local $1)
+      )
+      (tee_local $5
+       (i32.const 0)
+      )
+      (i32.gt_s
+       (get_local $4)
+       (get_local $5)
+      )
+     )
+    )
+    (tee_local $5
+     (get_local $3)
+    )
+    (i32.lt_s
+     (get_local $4)
+     (get_local $5)
+    )
+   )
+  )
+  (set_local $7
+   (select
+    (tee_local $4
+     (select
+      (tee_local $4
+       (get_local $2)
+      )
+      (tee_local $5
+       (i32.const 0)
+      )
+      (i32.gt_s
+       (get_local $4)
+       (get_local $5)
+      )
+     )
+    )
+    (tee_local $5
+     (get_local $3)
+    )
+    (i32.lt_s
+     (get_local $4)
+     (get_local $5)
+    )
+   )
+  )
+  (set_local $8
+   (select
+    (tee_local $4
+     (get_local $6)
+    )
+    (tee_local $5
+     (get_local $7)
+    )
+    (i32.lt_s
+     (get_local $4)
+     (get_local $5)
+    )
+   )
+  )
+  (set_local $9
+   (select
+    (tee_local $4
+     (get_local $6)
+    )
+    (tee_local $5
+     (get_local $7)
+    )
+    (i32.gt_s
+     (get_local $4)
+     (get_local $5)
+    )
+   )
+  )
+  (set_local $3
+   (i32.sub
+    (get_local $9)
+    (get_local $8)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $3)
+   )
+   (return
+    (i32.const 256)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $4
+     (i32.eqz
+      (get_local $8)
+     )
+    )
+    (i32.eq
+     (get_local $9)
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (get_local $4)
+   )
+   (return
+    (get_local $0)
+   )
+  )
+  (set_local $10
+   (call $~lib/internal/string/allocateUnsafe
+    (get_local $3)
+   )
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (get_local $10)
+   (i32.const 0)
+   (get_local $0)
+   (get_local $8)
+   (get_local $3)
+  )
+  (get_local $10)
+ )
+ (func $~lib/string/String#substr (; 86 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (if
+   (i32.eqz
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 80)
+     (i32.const 291)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $3
+   (get_local $1)
+  )
+  (set_local $4
+   (get_local $2)
+  )
+  (set_local $5
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.lt_s
+    (get_local $3)
+    (i32.const 0)
+   )
+   (set_local $3
+    (select
+     (tee_local $6
+      (i32.add
+       (get_local $5)
+       (get_local $3)
+      )
+     )
+     (tee_local $7
+      (i32.const 0)
+     )
+     (i32.gt_s
+      (get_local $6)
+      (get_local $7)
+     )
+    )
+   )
+  )
+  (set_local $8
+   (select
+    (tee_local $6
+     (select
+      (tee_local $6
+       (get_local $4)
+      )
+      (tee_local $7
+       (i32.const 0)
+      )
+      (i32.gt_s
+       (get_local $6)
+       (get_local $7)
+      )
+     )
+    )
+    (tee_local $7
+     (i32.sub
+      (get_local $5)
+      (get_local $3)
+     )
+    )
+    (i32.lt_s
+     (get_local $6)
+     (get_local $7)
+    )
+   )
+  )
+  (if
+   (i32.le_s
+    (get_local $8)
+    (i32.const 0)
+   )
+   (return
+    (i32.const 256)
+   )
+  )
+  (set_local $9
+   (call $~lib/internal/string/allocateUnsafe
+    (get_local $8)
+   )
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (get_local $9)
+   (i32.const 0)
+   (get_local $0)
+   (get_local $3)
+   (get_local $8)
+  )
+  (get_local $9)
+ )
+ (func $~lib/string/String#substring|trampoline (; 87 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (block $1of1
+   (block $0of1
+    (block $outOfRange
+     (br_table $0of1 $1of1 $outOfRange
+      (i32.sub
+       (get_global $~argc)
+       (i32.const 1)
+      )
+     )
+    )
+    (unreachable)
+   )
+   (set_local $2
+    (get_global $~lib/builtins/i32.MAX_VALUE)
+   )
+  )
+  (call $~lib/string/String#substring
+   (get_local $0)
+   (get_local $1)
+   (get_local $2)
+  )
+ )
+ (func $~lib/internal/string/getSubstitution (; 88 ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (set_local $4
+   (call $~lib/string/String#indexOf
+    (get_local $3)
+    (i32.const 199248)
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $4)
+    (i32.const -1)
+   )
+   (return
+    (get_local $3)
+   )
+  )
+  (set_local $5
+   (i32.load
+    (get_local $3)
+   )
+  )
+  (set_local $6
+   (call $~lib/string/String#substring
+    (get_local $3)
+    (i32.const 0)
+    (get_local $4)
+   )
+  )
+  (set_local $7
+   (get_local $4)
+  )
+  (block $break|0
+   (set_local $8
+    (get_local $4)
+   )
+   (loop $repeat|0
+    (block $continue|0
+     (br_if $break|0
+      (i32.eqz
+       (i32.lt_s
+        (get_local $8)
+        (i32.sub
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+      )
+     )
+     (block
+      (if
+       (i32.ne
+        (i32.load16_u offset=4
+         (i32.add
+          (get_local $3)
+          (i32.shl
+           (get_local $8)
+           (i32.const 1)
+          )
+         )
+        )
+        (i32.const 36)
+       )
+       (br $continue|0)
+      )
+      (block $break|1
+       (block $case4|1
+        (block $case3|1
+         (block $case2|1
+          (block $case1|1
+           (block $case0|1
+            (set_local $10
+             (i32.load16_u offset=6
+              (i32.add
+               (get_local $3)
+               (i32.shl
+                (get_local $8)
+                (i32.const 1)
+               )
+              )
+             )
+            )
+            (br_if $case0|1
+             (i32.eq
+              (get_local $10)
+              (i32.const 36)
+             )
+            )
+            (br_if $case1|1
+             (i32.eq
+              (get_local $10)
+              (i32.const 38)
+             )
+            )
+            (br_if $case2|1
+             (i32.eq
+              (get_local $10)
+              (i32.const 96)
+             )
+            )
+            (br_if $case3|1
+             (i32.eq
+              (get_local $10)
+              (i32.const 39)
+             )
+            )
+            (br $case4|1)
+           )
+           (block
+            (set_local $9
+             (i32.const 199248)
+            )
+            (br $break|1)
+           )
+          )
+          (block
+           (set_local $9
+            (call $~lib/string/String#substr
+             (get_local $0)
+             (get_local $1)
+             (get_local $2)
+            )
+           )
+           (br $break|1)
+          )
+         )
+         (block
+          (set_local $9
+           (call $~lib/string/String#substring
+            (get_local $0)
+            (i32.const 0)
+            (get_local $1)
+           )
+          )
+          (br $break|1)
+         )
+        )
+        (block
+         (set_local $9
+          (block (result i32)
+           (set_global $~argc
+            (i32.const 1)
+           )
+           (call $~lib/string/String#substring|trampoline
+            (get_local $0)
+            (i32.add
+             (get_local $1)
+             (get_local $2)
+            )
+            (i32.const 0)
+           )
+          )
+         )
+         (br $break|1)
+        )
+       )
+       (br $continue|0)
+      )
+      (set_local $6
+       (call $~lib/string/String#concat
+        (call $~lib/string/String#concat
+         (get_local $6)
+         (call $~lib/string/String#substring
+          (get_local $3)
+          (get_local $7)
+          (get_local $8)
+         )
+        )
+        (get_local $9)
+       )
+      )
+      (set_local $7
+       (i32.add
+        (tee_local $8
+         (i32.add
+          (get_local $8)
+          (i32.const 1)
+         )
+        )
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $8
+     (i32.add
+      (get_local $8)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (call $~lib/string/String#concat
+   (get_local $6)
+   (block (result i32)
+    (set_global $~argc
+     (i32.const 1)
+    )
+    (call $~lib/string/String#substring|trampoline
+     (get_local $3)
+     (get_local $7)
+     (i32.const 0)
+    )
+   )
+  )
+ )
+ (func $~lib/string/String#replace (; 89 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (if
+   (i32.eqz
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 80)
+     (i32.const 442)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 0)
+   )
+   (set_local $1
+    (i32.const 200)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $2)
+    (i32.const 0)
+   )
+   (set_local $2
+    (i32.const 200)
+   )
+  )
+  (set_local $3
+   (call $~lib/string/String#indexOf
+    (get_local $0)
+    (get_local $1)
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $3)
+    (i32.const -1)
+   )
+   (return
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $5
+   (i32.load
+    (get_local $1)
+   )
+  )
+  (set_local $2
+   (call $~lib/internal/string/getSubstitution
+    (get_local $0)
+    (get_local $3)
+    (get_local $5)
+    (get_local $2)
+   )
+  )
+  (set_local $6
+   (i32.load
+    (get_local $2)
+   )
+  )
+  (set_local $7
+   (i32.add
+    (i32.sub
+     (get_local $4)
+     (get_local $5)
+    )
+    (get_local $6)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $7)
+   )
+   (return
+    (i32.const 256)
+   )
+  )
+  (set_local $8
+   (call $~lib/internal/string/allocateUnsafe
+    (get_local $7)
+   )
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (get_local $8)
+   (i32.const 0)
+   (get_local $0)
+   (i32.const 0)
+   (get_local $3)
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (get_local $8)
+   (get_local $3)
+   (get_local $2)
+   (i32.const 0)
+   (get_local $6)
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (get_local $8)
+   (i32.add
+    (get_local $3)
+    (get_local $6)
+   )
+   (get_local $0)
+   (i32.add
+    (get_local $3)
+    (get_local $5)
+   )
+   (i32.sub
+    (i32.sub
+     (get_local $4)
+     (get_local $3)
+    )
+    (get_local $5)
+   )
+  )
+  (get_local $8)
+ )
+ (func $~lib/array/Array<String>#constructor (; 90 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (i32.gt_u
+    (get_local $1)
+    (i32.const 268435454)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 35072)
+     (i32.const 23)
+     (i32.const 39)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $2
+   (i32.shl
+    (get_local $1)
+    (i32.const 2)
+   )
+  )
+  (set_local $3
+   (call $~lib/internal/arraybuffer/allocateUnsafe
+    (get_local $2)
+   )
+  )
+  (i32.store
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $4
+        (call $~lib/memory/memory.allocate
+         (i32.const 8)
+        )
+       )
+       (i32.store
+        (get_local $4)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $4)
+        (i32.const 0)
+       )
+       (get_local $4)
+      )
+     )
+    )
+   )
+   (get_local $3)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $1)
+  )
+  (block $~lib/memory/memory.fill|inlined.3
+   (set_local $4
+    (i32.add
+     (get_local $3)
+     (get_global $~lib/internal/arraybuffer/HEADER_SIZE)
+    )
+   )
+   (set_local $5
+    (i32.const 0)
+   )
+   (call $~lib/internal/memory/memset
+    (get_local $4)
+    (get_local $5)
+    (get_local $2)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/array/Array<String>#__set (; 91 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.shr_u
+    (i32.load
+     (get_local $3)
+    )
+    (i32.const 2)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (get_local $4)
+   )
+   (block
+    (if
+     (i32.ge_u
+      (get_local $1)
+      (i32.const 268435454)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 35072)
+       (i32.const 134)
+       (i32.const 41)
+      )
+      (unreachable)
+     )
+    )
+    (set_local $3
+     (call $~lib/internal/arraybuffer/reallocateUnsafe
+      (get_local $3)
+      (i32.shl
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+       (i32.const 2)
+      )
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (get_local $3)
+    )
+    (i32.store offset=4
+     (get_local $0)
+     (i32.add
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+   )
+  )
+  (block $~lib/internal/arraybuffer/storeUnsafe<String,String>|inlined.0
+   (i32.store offset=8
+    (i32.add
+     (get_local $3)
+     (i32.shl
+      (get_local $1)
+      (i32.const 2)
+     )
+    )
+    (get_local $2)
+   )
+  )
+ )
+ (func $~lib/array/Array<String>#__get (; 92 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if (result i32)
+   (i32.lt_u
+    (get_local $1)
+    (i32.shr_u
+     (i32.load
+      (get_local $2)
+     )
+     (i32.const 2)
+    )
+   )
+   (block $~lib/internal/arraybuffer/loadUnsafe<String,String>|inlined.0 (result i32)
+    (i32.load offset=8
+     (i32.add
+      (get_local $2)
+      (i32.shl
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+    )
+   )
+   (unreachable)
+  )
+ )
+ (func $~lib/string/String#replaceAll (; 93 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (local $13 i32)
+  (local $14 i32)
+  (local $15 i32)
+  (if
+   (i32.eqz
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 80)
+     (i32.const 462)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 0)
+   )
+   (set_local $1
+    (i32.const 200)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $2)
+    (i32.const 0)
+   )
+   (set_local $2
+    (i32.const 200)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.load
+    (get_local $1)
+   )
+  )
+  (set_local $5
+   (call $~lib/array/Array<i32>#constructor
+    (i32.const 0)
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $4)
+   )
+   (block $break|0
+    (set_local $6
+     (i32.const 0)
+    )
+    (loop $repeat|0
+     (br_if $break|0
+      (i32.eqz
+       (i32.le_s
+        (get_local $6)
+        (get_local $3)
+       )
+      )
+     )
+     (drop
+      (call $~lib/array/Array<i32>#push
+       (get_local $5)
+       (get_local $6)
+      )
+     )
+     (set_local $6
+      (i32.add
+       (get_local $6)
+       (i32.const 1)
+      )
+     )
+     (br $repeat|0)
+    )
+   )
+   (block
+    (set_local $6
+     (call $~lib/string/String#indexOf
+      (get_local $0)
+      (get_local $1)
+      (i32.const 0)
+     )
+    )
+    (block $break|1
+     (loop $continue|1
+      (if
+       (i32.ne
+        (get_local $6)
+        (i32.const -1)
+       )
+       (block
+        (block
+         (drop
+          (call $~lib/array/Array<i32>#push
+           (get_local $5)
+           (get_local $6)
+          )
+         )
+         (set_local $6
+          (call $~lib/string/String#indexOf
+           (get_local $0)
+           (get_local $1)
+           (i32.add
+            (get_local $6)
+            (get_local $4)
+           )
+          )
+         )
+        )
+        (br $continue|1)
+       )
+      )
+     )
+    )
+   )
+  )
+  (set_local $7
+   (block $~lib/array/Array<i32>#get:length|inlined.3 (result i32)
+    (i32.load offset=4
+     (get_local $5)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $7)
+   )
+   (return
+    (get_local $0)
+   )
+  )
+  (set_local $8
+   (call $~lib/array/Array<String>#constructor
+    (i32.const 0)
+    (get_local $7)
+   )
+  )
+  (set_local $9
+   (i32.sub
+    (get_local $3)
+    (i32.mul
+     (get_local $7)
+     (get_local $4)
+    )
+   )
+  )
+  (block $break|2
+   (set_local $6
+    (i32.const 0)
+   )
+   (loop $repeat|2
+    (br_if $break|2
+     (i32.eqz
+      (i32.lt_s
+       (get_local $6)
+       (get_local $7)
+      )
+     )
+    )
+    (block
+     (set_local $10
+      (call $~lib/internal/string/getSubstitution
+       (get_local $0)
+       (call $~lib/array/Array<i32>#__get
+        (get_local $5)
+        (get_local $6)
+       )
+       (get_local $4)
+       (get_local $2)
+      )
+     )
+     (call $~lib/array/Array<String>#__set
+      (get_local $8)
+      (get_local $6)
+      (get_local $10)
+     )
+     (set_local $9
+      (i32.add
+       (get_local $9)
+       (i32.load
+        (get_local $10)
+       )
+      )
+     )
+    )
+    (set_local $6
+     (i32.add
+      (get_local $6)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|2)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $9)
+   )
+   (return
+    (i32.const 256)
+   )
+  )
+  (set_local $11
+   (call $~lib/internal/string/allocateUnsafe
+    (get_local $9)
+   )
+  )
+  (set_local $12
+   (i32.const 0)
+  )
+  (set_local $13
+   (i32.const 0)
+  )
+  (block $break|3
+   (set_local $6
+    (i32.const 0)
+   )
+   (loop $repeat|3
+    (br_if $break|3
+     (i32.eqz
+      (i32.lt_s
+       (get_local $6)
+       (get_local $7)
+      )
+     )
+    )
+    (block
+     (set_local $10
+      (call $~lib/array/Array<i32>#__get
+       (get_local $5)
+       (get_local $6)
+      )
+     )
+     (set_local $14
+      (call $~lib/array/Array<String>#__get
+       (get_local $8)
+       (get_local $6)
+      )
+     )
+     (set_local $15
+      (i32.load
+       (get_local $14)
+      )
+     )
+     (call $~lib/internal/string/copyUnsafe
+      (get_local $11)
+      (get_local $12)
+      (get_local $0)
+      (get_local $13)
+      (i32.sub
+       (get_local $10)
+       (get_local $13)
+      )
+     )
+     (set_local $12
+      (i32.add
+       (get_local $12)
+       (i32.sub
+        (get_local $10)
+        (get_local $13)
+       )
+      )
+     )
+     (call $~lib/internal/string/copyUnsafe
+      (get_local $11)
+      (get_local $12)
+      (get_local $14)
+      (i32.const 0)
+      (get_local $15)
+     )
+     (set_local $12
+      (i32.add
+       (get_local $12)
+       (get_local $15)
+      )
+     )
+     (set_local $13
+      (i32.add
+       (get_local $10)
+       (get_local $4)
+      )
+     )
+    )
+    (set_local $6
+     (i32.add
+      (get_local $6)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|3)
+   )
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (get_local $11)
+   (get_local $12)
+   (get_local $0)
+   (get_local $13)
+   (i32.sub
+    (get_local $3)
+    (get_local $13)
+   )
+  )
+  (get_local $11)
+ )
+ (func $~lib/array/Array<String>#push (; 94 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.shr_u
+    (i32.load
+     (get_local $3)
+    )
+    (i32.const 2)
+   )
+  )
+  (set_local $5
+   (i32.add
+    (get_local $2)
+    (i32.const 1)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $2)
+    (get_local $4)
+   )
+   (block
+    (if
+     (i32.ge_u
+      (get_local $2)
+      (i32.const 268435454)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 35072)
+       (i32.const 193)
+       (i32.const 42)
+      )
+      (unreachable)
+     )
+    )
+    (set_local $3
+     (call $~lib/internal/arraybuffer/reallocateUnsafe
+      (get_local $3)
+      (i32.shl
+       (get_local $5)
+       (i32.const 2)
+      )
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (get_local $3)
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (get_local $5)
+  )
+  (block $~lib/internal/arraybuffer/storeUnsafe<String,String>|inlined.1
+   (i32.store offset=8
+    (i32.add
+     (get_local $3)
+     (i32.shl
+      (get_local $2)
+      (i32.const 2)
+     )
+    )
+    (get_local $1)
+   )
+  )
+  (get_local $5)
+ )
+ (func $~lib/string/String#split (; 95 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (if
+   (i32.eqz
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 80)
+     (i32.const 509)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $3
+   (call $~lib/array/Array<String>#constructor
+    (i32.const 0)
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (return
+    (get_local $3)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 0)
+   )
+   (block
+    (drop
+     (call $~lib/array/Array<String>#push
+      (get_local $3)
+      (get_local $0)
+     )
+    )
+    (return
+     (get_local $3)
+    )
+   )
+  )
+  (set_local $4
+   (get_local $1)
+  )
+  (set_local $5
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $6
+   (i32.load
+    (get_local $4)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $6)
+   )
+   (block
+    (set_local $7
+     (select
+      (tee_local $7
+       (get_local $5)
+      )
+      (tee_local $8
+       (get_local $2)
+      )
+      (i32.lt_u
+       (get_local $7)
+       (get_local $8)
+      )
+     )
+    )
+    (block $break|0
+     (set_local $8
+      (i32.const 0)
+     )
+     (loop $repeat|0
+      (br_if $break|0
+       (i32.eqz
+        (i32.lt_u
+         (get_local $8)
+         (get_local $7)
+        )
+       )
+      )
+      (block
+       (set_local $9
+        (call $~lib/internal/string/allocateUnsafe
+         (i32.const 1)
+        )
+       )
+       (i32.store16 offset=4
+        (get_local $9)
+        (i32.load16_u offset=4
+         (i32.add
+          (get_local $0)
+          (i32.shl
+           (get_local $8)
+           (i32.const 1)
+          )
+         )
+        )
+       )
+       (drop
+        (call $~lib/array/Array<String>#push
+         (get_local $3)
+         (get_local $9)
+        )
+       )
+      )
+      (set_local $8
+       (i32.add
+        (get_local $8)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|0)
+     )
+    )
+    (return
+     (get_local $3)
+    )
+   )
+  )
+  (set_local $10
+   (i32.const 0)
+  )
+  (set_local $11
+   (call $~lib/string/String#indexOf
+    (get_local $0)
+    (get_local $4)
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $11)
+    (i32.const -1)
+   )
+   (block
+    (drop
+     (call $~lib/array/Array<String>#push
+      (get_local $3)
+      (get_local $0)
+     )
+    )
+    (return
+     (get_local $3)
+    )
+   )
+  )
+  (block $break|1
+   (loop $continue|1
+    (if
+     (i32.ne
+      (get_local $11)
+      (i32.const -1)
+     )
+     (block
+      (block
+       (set_local $7
+        (i32.sub
+         (get_local $11)
+         (get_local $10)
+        )
+       )
+       (if
+        (get_local $7)
+        (block
+         (set_local $8
+          (call $~lib/internal/string/allocateUnsafe
+           (get_local $7)
+          )
+         )
+         (call $~lib/internal/string/copyUnsafe
+          (get_local $8)
+          (i32.const 0)
+          (get_local $0)
+          (get_local $10)
+          (get_local $7)
+         )
+         (drop
+          (call $~lib/array/Array<String>#push
+           (get_local $3)
+           (get_local $8)
+          )
+         )
+        )
+        (drop
+         (call $~lib/array/Array<String>#push
+          (get_local $3)
+          (i32.const 256)
+         )
+        )
+       )
+       (if
+        (i32.ge_u
+         (block $~lib/array/Array<String>#get:length|inlined.1 (result i32)
+          (i32.load offset=4
+           (get_local $3)
+          )
+         )
+         (get_local $2)
+        )
+        (return
+         (get_local $3)
+        )
+       )
+       (set_local $10
+        (i32.add
+         (get_local $11)
+         (get_local $6)
+        )
+       )
+       (set_local $11
+        (call $~lib/string/String#indexOf
+         (get_local $0)
+         (get_local $4)
+         (get_local $10)
+        )
+       )
+      )
+      (br $continue|1)
+     )
+    )
+   )
+  )
+  (set_local $12
+   (i32.sub
+    (get_local $5)
+    (get_local $10)
+   )
+  )
+  (if
+   (get_local $12)
+   (block
+    (set_local $7
+     (call $~lib/internal/string/allocateUnsafe
+      (get_local $12)
+     )
+    )
+    (call $~lib/internal/string/copyUnsafe
+     (get_local $7)
+     (i32.const 0)
+     (get_local $0)
+     (get_local $10)
+     (get_local $12)
+    )
+    (drop
+     (call $~lib/array/Array<String>#push
+      (get_local $3)
+      (get_local $7)
+     )
+    )
+   )
+   (drop
+    (call $~lib/array/Array<String>#push
+     (get_local $3)
+     (i32.const 256)
+    )
+   )
+  )
+  (get_local $3)
+ )
+ (func $~lib/string/String#split|trampoline (; 96 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (block $2of2
+   (block $1of2
+    (block $0of2
+     (block $outOfRange
+      (br_table $0of2 $1of2 $2of2 $outOfRange
+       (get_global $~argc)
+      )
+     )
+     (unreachable)
+    )
+    (set_local $1
+     (i32.const 0)
+    )
+   )
+   (set_local $2
+    (get_global $~lib/builtins/i32.MAX_VALUE)
+   )
+  )
+  (call $~lib/string/String#split
+   (get_local $0)
+   (get_local $1)
+   (get_local $2)
+  )
+ )
+ (func $~lib/internal/itoa/utoa32 (; 97 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return
+    (i32.const 552)
+   )
+  )
+  (set_local $1
+   (call $~lib/internal/itoa/decimalCountU32
+    (get_local $0)
+   )
+  )
+  (set_local $2
+   (call $~lib/internal/string/allocateUnsafe
+    (get_local $1)
+   )
+  )
+  (block $~lib/internal/itoa/utoa32_core|inlined.2
+   (call $~lib/internal/itoa/utoa32_lut
+    (get_local $2)
+    (get_local $0)
+    (get_local $1)
+   )
+  )
+  (get_local $2)
+ )
+ (func $~lib/internal/itoa/itoa64 (; 98 ;) (type $Ii) (param $0 i64) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i64.eqz
+    (get_local $0)
+   )
+   (return
+    (i32.const 552)
+   )
+  )
+  (set_local $1
+   (i64.lt_s
+    (get_local $0)
+    (i64.const 0)
+   )
+  )
+  (if
+   (get_local $1)
+   (set_local $0
+    (i64.sub
+     (i64.const 0)
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i64.le_u
+    (get_local $0)
+    (i64.extend_u/i32
+     (get_global $~lib/builtins/u32.MAX_VALUE)
+    )
+   )
+   (block
+    (set_local $3
+     (i32.wrap/i64
+      (get_local $0)
+     )
+    )
+    (set_local $4
+     (i32.add
+      (call $~lib/internal/itoa/decimalCountU32
+       (get_local $3)
+      )
+      (get_local $1)
+     )
+    )
+    (set_local $2
+     (call $~lib/internal/string/allocateUnsafe
+      (get_local $4)
+     )
+    )
+    (block $~lib/internal/itoa/utoa32_core|inlined.3
+     (call $~lib/internal/itoa/utoa32_lut
+      (get_local $2)
+      (get_local $3)
+      (get_local $4)
+     )
+    )
+   )
+   (block
+    (set_local $4
+     (i32.add
+      (call $~lib/internal/itoa/decimalCountU64
+       (get_local $0)
+      )
+      (get_local $1)
+     )
+    )
+    (set_local $2
+     (call $~lib/internal/string/allocateUnsafe
+      (get_local $4)
+     )
+    )
+    (block $~lib/internal/itoa/utoa64_core|inlined.1
+     (call $~lib/internal/itoa/utoa64_lut
+      (get_local $2)
+      (get_local $0)
+      (get_local $4)
+     )
+    )
+   )
+  )
+  (if
+   (get_local $1)
+   (i32.store16 offset=4
+    (get_local $2)
+    (i32.const 45)
+   )
+  )
+  (get_local $2)
+ )
+ (func $start (; 99 ;) (type $v)
+  (local $0 i32)
+  (set_global $~lib/allocator/arena/startOffset
+   (i32.and
+    (i32.add
+     (get_global $HEAP_BASE)
+     (get_global $~lib/internal/allocator/AL_MASK)
+    )
+    (i32.xor
+     (get_global $~lib/internal/allocator/AL_MASK)
+     (i32.const -1)
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_global $~lib/allocator/arena/startOffset)
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (get_global $std/string/str)
+     (i32.const 8)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 11)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.load
+      (get_global $std/string/str)
+     )
+     (i32.const 16)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 13)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/string/String#charCodeAt
+      (get_global $std/string/str)
+      (i32.const 0)
+     )
+     (i32.const 104)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 14)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String.fromCharCode
+      (i32.const 0)
+     )
+     (i32.const 168)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 16)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String.fromCharCode
+      (i32.const 54)
+     )
+     (i32.const 176)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 17)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String.fromCharCode
+      (i32.add
+       (i32.const 65536)
+       (i32.const 54)
+      )
+     )
+     (i32.const 176)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 18)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String.fromCodePoint
+      (i32.const 0)
+     )
+     (i32.const 168)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 20)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String.fromCodePoint
+      (i32.const 54)
+     )
+     (i32.const 176)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 21)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String.fromCodePoint
+      (i32.const 119558)
+     )
+     (i32.const 184)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 22)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String#startsWith
+     (get_global $std/string/str)
+     (i32.const 192)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 24)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (block (result i32)
+     (set_global $~argc
+      (i32.const 1)
+     )
+     (call $~lib/string/String#endsWith|trampoline
+      (get_global $std/string/str)
+      (i32.const 216)
+      (i32.const 0)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 25)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String#includes
+     (get_global $std/string/str)
+     (i32.const 232)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 26)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 1)
+      )
+      (call $~lib/string/String#padStart|trampoline
+       (get_global $std/string/str)
+       (i32.const 0)
+       (i32.const 0)
+      )
+     )
+     (get_global $std/string/str)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 28)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 1)
+      )
+      (call $~lib/string/String#padStart|trampoline
+       (get_global $std/string/str)
+       (i32.const 15)
+       (i32.const 0)
+      )
+     )
+     (get_global $std/string/str)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 29)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 1)
+      )
+      (call $~lib/string/String#padStart|trampoline
+       (i32.const 256)
+       (i32.const 3)
+       (i32.const 0)
+      )
+     )
+     (i32.const 264)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 30)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#padStart
+      (i32.const 256)
+      (i32.const 10)
+      (i32.const 256)
+     )
+     (i32.const 256)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 31)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#padStart
+      (i32.const 280)
+      (i32.const 100)
+      (i32.const 256)
+     )
+     (i32.const 280)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 32)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 1)
+      )
+      (call $~lib/string/String#padStart|trampoline
+       (i32.const 288)
+       (i32.const 5)
+       (i32.const 0)
+      )
+     )
+     (i32.const 304)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 33)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#padStart
+      (i32.const 288)
+      (i32.const 6)
+      (i32.const 320)
+     )
+     (i32.const 336)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 34)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#padStart
+      (i32.const 288)
+      (i32.const 8)
+      (i32.const 320)
+     )
+     (i32.const 352)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 35)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 1)
+      )
+      (call $~lib/string/String#padEnd|trampoline
+       (get_global $std/string/str)
+       (i32.const 0)
+       (i32.const 0)
+      )
+     )
+     (get_global $std/string/str)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 37)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 1)
+      )
+      (call $~lib/string/String#padEnd|trampoline
+       (get_global $std/string/str)
+       (i32.const 15)
+       (i32.const 0)
+      )
+     )
+     (get_global $std/string/str)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 38)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 1)
+      )
+      (call $~lib/string/String#padEnd|trampoline
+       (i32.const 256)
+       (i32.const 3)
+       (i32.const 0)
+      )
+     )
+     (i32.const 264)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 39)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#padEnd
+      (i32.const 256)
+      (i32.const 10)
+      (i32.const 256)
+     )
+     (i32.const 256)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 40)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#padEnd
+      (i32.const 280)
+      (i32.const 100)
+      (i32.const 256)
+     )
+     (i32.const 280)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 41)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 1)
+      )
+      (call $~lib/string/String#padEnd|trampoline
+       (i32.const 288)
+       (i32.const 5)
+       (i32.const 0)
+      )
+     )
+     (i32.const 376)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 42)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#padEnd
+      (i32.const 288)
+      (i32.const 6)
+      (i32.const 288)
+     )
+     (i32.const 392)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 43)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#padEnd
+      (i32.const 288)
+      (i32.const 8)
+      (i32.const 288)
+     )
+     (i32.const 408)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 44)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#trim
+      (i32.const 432)
+     )
+     (i32.const 288)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 46)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#trim
+      (i32.const 376)
+     )
+     (i32.const 288)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 47)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#trim
+      (i32.const 264)
+     )
+     (i32.const 256)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 48)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#trimLeft
+      (i32.const 456)
+     )
+     (i32.const 472)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 49)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#trimRight
+      (i32.const 456)
+     )
+     (i32.const 488)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 50)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#trimRight
+      (i32.const 264)
+     )
+     (i32.const 256)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 51)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/string/String#indexOf
+      (i32.const 256)
+      (i32.const 256)
+      (i32.const 0)
+     )
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 53)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/string/String#indexOf
+      (i32.const 256)
+      (i32.const 192)
+      (i32.const 0)
+     )
+     (i32.const -1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 54)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/string/String#indexOf
+      (get_global $std/string/str)
+      (i32.const 256)
+      (i32.const 0)
+     )
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 55)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/string/String#indexOf
+      (get_global $std/string/str)
+      (i32.const 504)
+      (i32.const 0)
+     )
+     (i32.const 2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 56)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/string/String#indexOf
+      (get_global $std/string/str)
+      (i32.const 512)
+      (i32.const 0)
+     )
+     (i32.const -1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 57)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/string/String#indexOf
+      (get_global $std/string/str)
+      (i32.const 504)
+      (i32.const 2)
+     )
+     (i32.const 2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 58)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/string/String#indexOf
+      (get_global $std/string/str)
+      (i32.const 504)
+      (i32.const 3)
+     )
+     (i32.const -1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 59)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/string/String#indexOf
+      (get_global $std/string/str)
+      (i32.const 520)
+      (i32.const -1)
+     )
+     (i32.const 2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 60)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 1)
+      )
+      (call $~lib/string/String#lastIndexOf|trampoline
+       (i32.const 256)
+       (i32.const 256)
+       (i32.const 0)
       )
-      (br $continue|0)
      )
+     (i32.const 0)
     )
    )
-  )
-  (call $~lib/internal/itoa/utoa32_lut
-   (get_local $0)
-   (i32.wrap/i64
-    (get_local $1)
-   )
-   (get_local $2)
-  )
- )
- (func $~lib/internal/itoa/utoa64 (; 41 ;) (type $Ii) (param $0 i64) (result i32)
-  (local $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (if
-   (i64.eqz
-    (get_local $0)
-   )
-   (return
-    (i32.const 480)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 62)
+     (i32.const 0)
+    )
+    (unreachable)
    )
   )
   (if
-   (i64.le_u
-    (get_local $0)
-    (i64.extend_u/i32
-     (get_global $~lib/builtins/u32.MAX_VALUE)
+   (i32.eqz
+    (i32.eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 1)
+      )
+      (call $~lib/string/String#lastIndexOf|trampoline
+       (i32.const 256)
+       (i32.const 192)
+       (i32.const 0)
+      )
+     )
+     (i32.const -1)
     )
    )
    (block
-    (set_local $2
-     (i32.wrap/i64
-      (get_local $0)
-     )
-    )
-    (set_local $3
-     (call $~lib/internal/itoa/decimalCountU32
-      (get_local $2)
-     )
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 63)
+     (i32.const 0)
     )
-    (set_local $1
-     (call $~lib/internal/string/allocateUnsafe
-      (get_local $3)
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 1)
+      )
+      (call $~lib/string/String#lastIndexOf|trampoline
+       (get_global $std/string/str)
+       (i32.const 256)
+       (i32.const 0)
+      )
      )
-    )
-    (block $~lib/internal/itoa/utoa32_core|inlined.2
-     (call $~lib/internal/itoa/utoa32_lut
-      (get_local $1)
-      (get_local $2)
-      (get_local $3)
+     (i32.load
+      (get_global $std/string/str)
      )
     )
    )
    (block
-    (set_local $3
-     (call $~lib/internal/itoa/decimalCountU64
-      (get_local $0)
-     )
-    )
-    (set_local $1
-     (call $~lib/internal/string/allocateUnsafe
-      (get_local $3)
-     )
-    )
-    (block $~lib/internal/itoa/utoa64_core|inlined.0
-     (call $~lib/internal/itoa/utoa64_lut
-      (get_local $1)
-      (get_local $0)
-      (get_local $3)
-     )
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 64)
+     (i32.const 0)
     )
+    (unreachable)
    )
   )
-  (get_local $1)
- )
- (func $~lib/internal/itoa/itoa64 (; 42 ;) (type $Ii) (param $0 i64) (result i32)
-  (local $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
   (if
-   (i64.eqz
-    (get_local $0)
-   )
-   (return
-    (i32.const 480)
-   )
-  )
-  (set_local $1
-   (i64.lt_s
-    (get_local $0)
-    (i64.const 0)
+   (i32.eqz
+    (i32.eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 1)
+      )
+      (call $~lib/string/String#lastIndexOf|trampoline
+       (get_global $std/string/str)
+       (i32.const 504)
+       (i32.const 0)
+      )
+     )
+     (i32.const 2)
+    )
    )
-  )
-  (if
-   (get_local $1)
-   (set_local $0
-    (i64.sub
-     (i64.const 0)
-     (get_local $0)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 65)
+     (i32.const 0)
     )
+    (unreachable)
    )
   )
   (if
-   (i64.le_u
-    (get_local $0)
-    (i64.extend_u/i32
-     (get_global $~lib/builtins/u32.MAX_VALUE)
+   (i32.eqz
+    (i32.eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 1)
+      )
+      (call $~lib/string/String#lastIndexOf|trampoline
+       (get_global $std/string/str)
+       (i32.const 512)
+       (i32.const 0)
+      )
+     )
+     (i32.const -1)
     )
    )
    (block
-    (set_local $3
-     (i32.wrap/i64
-      (get_local $0)
-     )
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 66)
+     (i32.const 0)
     )
-    (set_local $4
-     (i32.add
-      (call $~lib/internal/itoa/decimalCountU32
-       (get_local $3)
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block (result i32)
+      (set_global $~argc
+       (i32.const 1)
+      )
+      (call $~lib/string/String#lastIndexOf|trampoline
+       (get_global $std/string/str)
+       (i32.const 536)
+       (i32.const 0)
       )
-      (get_local $1)
-     )
-    )
-    (set_local $2
-     (call $~lib/internal/string/allocateUnsafe
-      (get_local $4)
-     )
-    )
-    (block $~lib/internal/itoa/utoa32_core|inlined.3
-     (call $~lib/internal/itoa/utoa32_lut
-      (get_local $2)
-      (get_local $3)
-      (get_local $4)
      )
+     (i32.const 15)
     )
    )
    (block
-    (set_local $4
-     (i32.add
-      (call $~lib/internal/itoa/decimalCountU64
-       (get_local $0)
-      )
-      (get_local $1)
-     )
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 67)
+     (i32.const 0)
     )
-    (set_local $2
-     (call $~lib/internal/string/allocateUnsafe
-      (get_local $4)
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/string/String#lastIndexOf
+      (get_global $std/string/str)
+      (i32.const 504)
+      (i32.const 2)
      )
+     (i32.const 2)
     )
-    (block $~lib/internal/itoa/utoa64_core|inlined.1
-     (call $~lib/internal/itoa/utoa64_lut
-      (get_local $2)
-      (get_local $0)
-      (get_local $4)
-     )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 68)
+     (i32.const 0)
     )
+    (unreachable)
    )
   )
   (if
-   (get_local $1)
-   (i32.store16 offset=4
-    (get_local $2)
-    (get_global $~lib/internal/string/CharCode.MINUS)
-   )
-  )
-  (get_local $2)
- )
- (func $start (; 43 ;) (type $v)
-  (set_global $~lib/allocator/arena/startOffset
-   (i32.and
-    (i32.add
-     (get_global $HEAP_BASE)
-     (get_global $~lib/internal/allocator/AL_MASK)
+   (i32.eqz
+    (i32.eq
+     (call $~lib/string/String#lastIndexOf
+      (get_global $std/string/str)
+      (i32.const 504)
+      (i32.const 3)
+     )
+     (i32.const 2)
     )
-    (i32.xor
-     (get_global $~lib/internal/allocator/AL_MASK)
-     (i32.const -1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 69)
+     (i32.const 0)
     )
+    (unreachable)
    )
   )
-  (set_global $~lib/allocator/arena/offset
-   (get_global $~lib/allocator/arena/startOffset)
-  )
   (if
    (i32.eqz
     (i32.eq
-     (get_global $std/string/str)
-     (i32.const 8)
+     (call $~lib/string/String#lastIndexOf
+      (get_global $std/string/str)
+      (i32.const 520)
+      (i32.const -1)
+     )
+     (i32.const -1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 11)
+     (i32.const 70)
      (i32.const 0)
     )
     (unreachable)
@@ -5911,17 +15446,19 @@
   (if
    (i32.eqz
     (i32.eq
-     (i32.load
+     (call $~lib/string/String#lastIndexOf
       (get_global $std/string/str)
+      (i32.const 544)
+      (i32.const 0)
      )
-     (i32.const 16)
+     (i32.const -1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 13)
+     (i32.const 71)
      (i32.const 0)
     )
     (unreachable)
@@ -5930,18 +15467,19 @@
   (if
    (i32.eqz
     (i32.eq
-     (call $~lib/string/String#charCodeAt
+     (call $~lib/string/String#lastIndexOf
       (get_global $std/string/str)
+      (i32.const 192)
       (i32.const 0)
      )
-     (i32.const 104)
+     (i32.const 0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 14)
+     (i32.const 72)
      (i32.const 0)
     )
     (unreachable)
@@ -5949,18 +15487,19 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (call $~lib/string/String.fromCharCode
+    (f64.eq
+     (call $~lib/string/parseInt
+      (i32.const 552)
       (i32.const 0)
      )
-     (i32.const 168)
+     (f64.const 0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 16)
+     (i32.const 78)
      (i32.const 0)
     )
     (unreachable)
@@ -5968,18 +15507,19 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (call $~lib/string/String.fromCharCode
-      (i32.const 54)
+    (f64.eq
+     (call $~lib/string/parseInt
+      (i32.const 560)
+      (i32.const 0)
      )
-     (i32.const 176)
+     (f64.const 1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 17)
+     (i32.const 79)
      (i32.const 0)
     )
     (unreachable)
@@ -5987,21 +15527,19 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (call $~lib/string/String.fromCharCode
-      (i32.add
-       (i32.const 65536)
-       (i32.const 54)
-      )
+    (f64.eq
+     (call $~lib/string/parseInt
+      (i32.const 568)
+      (i32.const 0)
      )
-     (i32.const 176)
+     (f64.const 5)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 18)
+     (i32.const 80)
      (i32.const 0)
     )
     (unreachable)
@@ -6009,18 +15547,19 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (call $~lib/string/String.fromCodePoint
+    (f64.eq
+     (call $~lib/string/parseInt
+      (i32.const 584)
       (i32.const 0)
      )
-     (i32.const 168)
+     (f64.const 455)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 20)
+     (i32.const 81)
      (i32.const 0)
     )
     (unreachable)
@@ -6028,18 +15567,19 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (call $~lib/string/String.fromCodePoint
-      (i32.const 54)
+    (f64.eq
+     (call $~lib/string/parseInt
+      (i32.const 600)
+      (i32.const 0)
      )
-     (i32.const 176)
+     (f64.const 3855)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 21)
+     (i32.const 82)
      (i32.const 0)
     )
     (unreachable)
@@ -6047,15 +15587,19 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.fromCodePoint
-     (i32.const 119558)
+    (f64.eq
+     (call $~lib/string/parseInt
+      (i32.const 616)
+      (i32.const 0)
+     )
+     (f64.const 3855)
     )
    )
    (block
     (call $~lib/env/abort
-     (i32.const 184)
+     (i32.const 0)
      (i32.const 48)
-     (i32.const 22)
+     (i32.const 83)
      (i32.const 0)
     )
     (unreachable)
@@ -6063,17 +15607,19 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String#startsWith
-     (get_global $std/string/str)
-     (i32.const 192)
-     (i32.const 0)
+    (f64.eq
+     (call $~lib/string/parseInt
+      (i32.const 632)
+      (i32.const 0)
+     )
+     (f64.const 11)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 24)
+     (i32.const 84)
      (i32.const 0)
     )
     (unreachable)
@@ -6081,22 +15627,19 @@
   )
   (if
    (i32.eqz
-    (block (result i32)
-     (set_global $~argc
-      (i32.const 1)
-     )
-     (call $~lib/string/String#endsWith|trampoline
-      (get_global $std/string/str)
-      (i32.const 216)
+    (f64.eq
+     (call $~lib/string/parseInt
+      (i32.const 648)
       (i32.const 0)
      )
+     (f64.const 1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 25)
+     (i32.const 85)
      (i32.const 0)
     )
     (unreachable)
@@ -6104,17 +15647,18 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String#includes
-     (get_global $std/string/str)
-     (i32.const 232)
-     (i32.const 0)
+    (f64.eq
+     (call $~lib/string/parseFloat
+      (i32.const 552)
+     )
+     (f64.const 0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 26)
+     (i32.const 87)
      (i32.const 0)
     )
     (unreachable)
@@ -6122,25 +15666,18 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (block (result i32)
-      (set_global $~argc
-       (i32.const 1)
-      )
-      (call $~lib/string/String#padStart|trampoline
-       (get_global $std/string/str)
-       (i32.const 0)
-       (i32.const 0)
-      )
+    (f64.eq
+     (call $~lib/string/parseFloat
+      (i32.const 560)
      )
-     (get_global $std/string/str)
+     (f64.const 1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 28)
+     (i32.const 88)
      (i32.const 0)
     )
     (unreachable)
@@ -6148,25 +15685,18 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (block (result i32)
-      (set_global $~argc
-       (i32.const 1)
-      )
-      (call $~lib/string/String#padStart|trampoline
-       (get_global $std/string/str)
-       (i32.const 15)
-       (i32.const 0)
-      )
+    (f64.eq
+     (call $~lib/string/parseFloat
+      (i32.const 664)
      )
-     (get_global $std/string/str)
+     (f64.const 0.1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 29)
+     (i32.const 89)
      (i32.const 0)
     )
     (unreachable)
@@ -6174,25 +15704,18 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (block (result i32)
-      (set_global $~argc
-       (i32.const 1)
-      )
-      (call $~lib/string/String#padStart|trampoline
-       (i32.const 256)
-       (i32.const 3)
-       (i32.const 0)
-      )
+    (f64.eq
+     (call $~lib/string/parseFloat
+      (i32.const 680)
      )
-     (i32.const 264)
+     (f64.const 0.25)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 30)
+     (i32.const 90)
      (i32.const 0)
     )
     (unreachable)
@@ -6200,33 +15723,50 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (call $~lib/string/String#padStart
-      (i32.const 256)
-      (i32.const 10)
-      (i32.const 256)
+    (f64.eq
+     (call $~lib/string/parseFloat
+      (i32.const 696)
      )
-     (i32.const 256)
+     (f64.const 0.1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 31)
+     (i32.const 91)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/string/c
+   (call $~lib/string/String.__concat
+    (i32.const 280)
+    (i32.const 720)
+   )
+  )
   (if
    (i32.eqz
     (call $~lib/string/String.__eq
-     (call $~lib/string/String#padStart
-      (i32.const 280)
-      (i32.const 100)
-      (i32.const 256)
-     )
+     (get_global $std/string/c)
+     (i32.const 728)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 94)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__ne
+     (get_global $std/string/c)
      (i32.const 280)
     )
    )
@@ -6234,7 +15774,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 32)
+     (i32.const 95)
      (i32.const 0)
     )
     (unreachable)
@@ -6243,24 +15783,15 @@
   (if
    (i32.eqz
     (call $~lib/string/String.__eq
-     (block (result i32)
-      (set_global $~argc
-       (i32.const 1)
-      )
-      (call $~lib/string/String#padStart|trampoline
-       (i32.const 288)
-       (i32.const 5)
-       (i32.const 0)
-      )
-     )
-     (i32.const 304)
+     (i32.const 256)
+     (i32.const 256)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 33)
+     (i32.const 96)
      (i32.const 0)
     )
     (unreachable)
@@ -6268,20 +15799,38 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (call $~lib/string/String#padStart
-      (i32.const 288)
-      (i32.const 6)
-      (i32.const 320)
+    (call $~lib/string/String.__ne
+     (i32.const 256)
+     (get_global $std/string/nullStr)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 97)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String.__concat
+      (i32.const 280)
+      (call $~lib/internal/itoa/itoa<i32>
+       (i32.const 1)
+      )
      )
-     (i32.const 336)
+     (i32.const 1328)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 34)
+     (i32.const 99)
      (i32.const 0)
     )
     (unreachable)
@@ -6290,19 +15839,20 @@
   (if
    (i32.eqz
     (call $~lib/string/String.__eq
-     (call $~lib/string/String#padStart
-      (i32.const 288)
-      (i32.const 8)
-      (i32.const 320)
+     (call $~lib/string/String.__concat
+      (call $~lib/internal/itoa/itoa<i32>
+       (i32.const 2)
+      )
+      (i32.const 280)
      )
-     (i32.const 352)
+     (i32.const 1336)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 35)
+     (i32.const 100)
      (i32.const 0)
     )
     (unreachable)
@@ -6311,24 +15861,27 @@
   (if
    (i32.eqz
     (call $~lib/string/String.__eq
-     (block (result i32)
-      (set_global $~argc
-       (i32.const 1)
+     (call $~lib/string/String.__concat
+      (call $~lib/string/String.__concat
+       (i32.const 512)
+       (call $~lib/internal/dtoa/dtoa<f64>
+        (f64.const 1.5)
+       )
       )
-      (call $~lib/string/String#padEnd|trampoline
-       (get_global $std/string/str)
-       (i32.const 0)
-       (i32.const 0)
+      (select
+       (i32.const 17808)
+       (i32.const 17824)
+       (i32.const 1)
       )
      )
-     (get_global $std/string/str)
+     (i32.const 17840)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 37)
+     (i32.const 101)
      (i32.const 0)
     )
     (unreachable)
@@ -6337,50 +15890,45 @@
   (if
    (i32.eqz
     (call $~lib/string/String.__eq
-     (block (result i32)
-      (set_global $~argc
-       (i32.const 1)
-      )
-      (call $~lib/string/String#padEnd|trampoline
-       (get_global $std/string/str)
-       (i32.const 15)
-       (i32.const 0)
+     (call $~lib/string/String.__concat
+      (i32.const 17864)
+      (call $~lib/internal/itoa/itoa<u64>
+       (i64.const -1)
       )
      )
-     (get_global $std/string/str)
+     (i32.const 18464)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 38)
+     (i32.const 102)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/string/c
+   (call $~lib/string/String.__concat
+    (get_global $std/string/c)
+    (call $~lib/internal/dtoa/dtoa<f32>
+     (f32.const 0.10000000149011612)
+    )
+   )
+  )
   (if
    (i32.eqz
     (call $~lib/string/String.__eq
-     (block (result i32)
-      (set_global $~argc
-       (i32.const 1)
-      )
-      (call $~lib/string/String#padEnd|trampoline
-       (i32.const 256)
-       (i32.const 3)
-       (i32.const 0)
-      )
-     )
-     (i32.const 264)
+     (get_global $std/string/c)
+     (i32.const 34912)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 39)
+     (i32.const 104)
      (i32.const 0)
     )
     (unreachable)
@@ -6388,20 +15936,16 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (call $~lib/string/String#padEnd
-      (i32.const 256)
-      (i32.const 10)
-      (i32.const 256)
-     )
-     (i32.const 256)
+    (call $~lib/string/String.__gt
+     (i32.const 720)
+     (i32.const 280)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 40)
+     (i32.const 106)
      (i32.const 0)
     )
     (unreachable)
@@ -6409,12 +15953,8 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (call $~lib/string/String#padEnd
-      (i32.const 280)
-      (i32.const 100)
-      (i32.const 256)
-     )
+    (call $~lib/string/String.__gt
+     (i32.const 34928)
      (i32.const 280)
     )
    )
@@ -6422,7 +15962,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 41)
+     (i32.const 107)
      (i32.const 0)
     )
     (unreachable)
@@ -6430,25 +15970,16 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (block (result i32)
-      (set_global $~argc
-       (i32.const 1)
-      )
-      (call $~lib/string/String#padEnd|trampoline
-       (i32.const 288)
-       (i32.const 5)
-       (i32.const 0)
-      )
-     )
-     (i32.const 376)
+    (call $~lib/string/String.__gte
+     (i32.const 34928)
+     (i32.const 34936)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 42)
+     (i32.const 108)
      (i32.const 0)
     )
     (unreachable)
@@ -6456,20 +15987,16 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (call $~lib/string/String#padEnd
-      (i32.const 288)
-      (i32.const 6)
-      (i32.const 288)
-     )
-     (i32.const 392)
+    (call $~lib/string/String.__gt
+     (i32.const 34928)
+     (i32.const 728)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 43)
+     (i32.const 109)
      (i32.const 0)
     )
     (unreachable)
@@ -6477,20 +16004,18 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (call $~lib/string/String#padEnd
-      (i32.const 288)
-      (i32.const 8)
-      (i32.const 288)
+    (i32.eqz
+     (call $~lib/string/String.__lt
+      (i32.const 34928)
+      (i32.const 728)
      )
-     (i32.const 408)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 44)
+     (i32.const 110)
      (i32.const 0)
     )
     (unreachable)
@@ -6498,20 +16023,18 @@
   )
   (if
    (i32.eqz
-    (i32.eq
-     (call $~lib/string/String#indexOf
-      (i32.const 256)
-      (i32.const 256)
-      (i32.const 0)
+    (i32.eqz
+     (call $~lib/string/String.__lt
+      (i32.const 720)
+      (get_global $std/string/nullStr)
      )
-     (i32.const 0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 46)
+     (i32.const 112)
      (i32.const 0)
     )
     (unreachable)
@@ -6519,20 +16042,18 @@
   )
   (if
    (i32.eqz
-    (i32.eq
-     (call $~lib/string/String#indexOf
-      (i32.const 256)
-      (i32.const 192)
-      (i32.const 0)
+    (i32.eqz
+     (call $~lib/string/String.__lt
+      (get_global $std/string/nullStr)
+      (i32.const 720)
      )
-     (i32.const -1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 47)
+     (i32.const 113)
      (i32.const 0)
     )
     (unreachable)
@@ -6540,20 +16061,16 @@
   )
   (if
    (i32.eqz
-    (i32.eq
-     (call $~lib/string/String#indexOf
-      (get_global $std/string/str)
-      (i32.const 256)
-      (i32.const 0)
-     )
-     (i32.const 0)
+    (call $~lib/string/String.__gt
+     (i32.const 288)
+     (i32.const 256)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 48)
+     (i32.const 115)
      (i32.const 0)
     )
     (unreachable)
@@ -6561,20 +16078,16 @@
   )
   (if
    (i32.eqz
-    (i32.eq
-     (call $~lib/string/String#indexOf
-      (get_global $std/string/str)
-      (i32.const 432)
-      (i32.const 0)
-     )
-     (i32.const 2)
+    (call $~lib/string/String.__lt
+     (i32.const 256)
+     (i32.const 288)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 49)
+     (i32.const 116)
      (i32.const 0)
     )
     (unreachable)
@@ -6582,20 +16095,16 @@
   )
   (if
    (i32.eqz
-    (i32.eq
-     (call $~lib/string/String#indexOf
-      (get_global $std/string/str)
-      (i32.const 440)
-      (i32.const 0)
-     )
-     (i32.const -1)
+    (call $~lib/string/String.__gte
+     (i32.const 288)
+     (i32.const 256)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 50)
+     (i32.const 117)
      (i32.const 0)
     )
     (unreachable)
@@ -6603,20 +16112,16 @@
   )
   (if
    (i32.eqz
-    (i32.eq
-     (call $~lib/string/String#indexOf
-      (get_global $std/string/str)
-      (i32.const 432)
-      (i32.const 2)
-     )
-     (i32.const 2)
+    (call $~lib/string/String.__lte
+     (i32.const 256)
+     (i32.const 288)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 51)
+     (i32.const 118)
      (i32.const 0)
     )
     (unreachable)
@@ -6624,20 +16129,18 @@
   )
   (if
    (i32.eqz
-    (i32.eq
-     (call $~lib/string/String#indexOf
-      (get_global $std/string/str)
-      (i32.const 432)
-      (i32.const 3)
+    (i32.eqz
+     (call $~lib/string/String.__lt
+      (i32.const 288)
+      (i32.const 256)
      )
-     (i32.const -1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 52)
+     (i32.const 119)
      (i32.const 0)
     )
     (unreachable)
@@ -6645,20 +16148,18 @@
   )
   (if
    (i32.eqz
-    (i32.eq
-     (call $~lib/string/String#indexOf
-      (get_global $std/string/str)
-      (i32.const 448)
-      (i32.const -1)
+    (i32.eqz
+     (call $~lib/string/String.__gt
+      (i32.const 256)
+      (i32.const 288)
      )
-     (i32.const 2)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 53)
+     (i32.const 120)
      (i32.const 0)
     )
     (unreachable)
@@ -6666,25 +16167,18 @@
   )
   (if
    (i32.eqz
-    (i32.eq
-     (block (result i32)
-      (set_global $~argc
-       (i32.const 1)
-      )
-      (call $~lib/string/String#lastIndexOf|trampoline
-       (i32.const 256)
-       (i32.const 256)
-       (i32.const 0)
-      )
+    (i32.eqz
+     (call $~lib/string/String.__lt
+      (i32.const 256)
+      (i32.const 256)
      )
-     (i32.const 0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 55)
+     (i32.const 121)
      (i32.const 0)
     )
     (unreachable)
@@ -6692,25 +16186,18 @@
   )
   (if
    (i32.eqz
-    (i32.eq
-     (block (result i32)
-      (set_global $~argc
-       (i32.const 1)
-      )
-      (call $~lib/string/String#lastIndexOf|trampoline
-       (i32.const 256)
-       (i32.const 192)
-       (i32.const 0)
-      )
+    (i32.eqz
+     (call $~lib/string/String.__gt
+      (i32.const 256)
+      (i32.const 256)
      )
-     (i32.const -1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 56)
+     (i32.const 122)
      (i32.const 0)
     )
     (unreachable)
@@ -6718,27 +16205,16 @@
   )
   (if
    (i32.eqz
-    (i32.eq
-     (block (result i32)
-      (set_global $~argc
-       (i32.const 1)
-      )
-      (call $~lib/string/String#lastIndexOf|trampoline
-       (get_global $std/string/str)
-       (i32.const 256)
-       (i32.const 0)
-      )
-     )
-     (i32.load
-      (get_global $std/string/str)
-     )
+    (call $~lib/string/String.__gte
+     (i32.const 256)
+     (i32.const 256)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 57)
+     (i32.const 123)
      (i32.const 0)
     )
     (unreachable)
@@ -6746,51 +16222,48 @@
   )
   (if
    (i32.eqz
-    (i32.eq
-     (block (result i32)
-      (set_global $~argc
-       (i32.const 1)
-      )
-      (call $~lib/string/String#lastIndexOf|trampoline
-       (get_global $std/string/str)
-       (i32.const 432)
-       (i32.const 0)
-      )
-     )
-     (i32.const 2)
+    (call $~lib/string/String.__lte
+     (i32.const 256)
+     (i32.const 256)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 58)
+     (i32.const 124)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/string/a
+   (call $~lib/string/String.fromCodePoint
+    (i32.const 65377)
+   )
+  )
+  (set_global $std/string/b
+   (call $~lib/string/String.__concat
+    (call $~lib/string/String.fromCodePoint
+     (i32.const 55296)
+    )
+    (call $~lib/string/String.fromCodePoint
+     (i32.const 56322)
+    )
+   )
+  )
   (if
    (i32.eqz
-    (i32.eq
-     (block (result i32)
-      (set_global $~argc
-       (i32.const 1)
-      )
-      (call $~lib/string/String#lastIndexOf|trampoline
-       (get_global $std/string/str)
-       (i32.const 440)
-       (i32.const 0)
-      )
-     )
-     (i32.const -1)
+    (call $~lib/string/String.__gt
+     (get_global $std/string/a)
+     (get_global $std/string/b)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 59)
+     (i32.const 128)
      (i32.const 0)
     )
     (unreachable)
@@ -6799,24 +16272,17 @@
   (if
    (i32.eqz
     (i32.eq
-     (block (result i32)
-      (set_global $~argc
-       (i32.const 1)
-      )
-      (call $~lib/string/String#lastIndexOf|trampoline
-       (get_global $std/string/str)
-       (i32.const 464)
-       (i32.const 0)
-      )
+     (i32.load
+      (i32.const 320)
      )
-     (i32.const 15)
+     (i32.const 3)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 60)
+     (i32.const 130)
      (i32.const 0)
     )
     (unreachable)
@@ -6824,20 +16290,19 @@
   )
   (if
    (i32.eqz
-    (i32.eq
-     (call $~lib/string/String#lastIndexOf
-      (get_global $std/string/str)
-      (i32.const 432)
-      (i32.const 2)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#repeat
+      (i32.const 256)
+      (i32.const 100)
      )
-     (i32.const 2)
+     (i32.const 256)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 61)
+     (i32.const 132)
      (i32.const 0)
     )
     (unreachable)
@@ -6845,20 +16310,19 @@
   )
   (if
    (i32.eqz
-    (i32.eq
-     (call $~lib/string/String#lastIndexOf
-      (get_global $std/string/str)
-      (i32.const 432)
-      (i32.const 3)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#repeat
+      (i32.const 280)
+      (i32.const 0)
      )
-     (i32.const 2)
+     (i32.const 256)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 62)
+     (i32.const 133)
      (i32.const 0)
     )
     (unreachable)
@@ -6866,20 +16330,19 @@
   )
   (if
    (i32.eqz
-    (i32.eq
-     (call $~lib/string/String#lastIndexOf
-      (get_global $std/string/str)
-      (i32.const 448)
-      (i32.const -1)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#repeat
+      (i32.const 280)
+      (i32.const 1)
      )
-     (i32.const -1)
+     (i32.const 280)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 63)
+     (i32.const 134)
      (i32.const 0)
     )
     (unreachable)
@@ -6887,20 +16350,19 @@
   )
   (if
    (i32.eqz
-    (i32.eq
-     (call $~lib/string/String#lastIndexOf
-      (get_global $std/string/str)
-      (i32.const 472)
-      (i32.const 0)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#repeat
+      (i32.const 280)
+      (i32.const 2)
      )
-     (i32.const -1)
+     (i32.const 34936)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 64)
+     (i32.const 135)
      (i32.const 0)
     )
     (unreachable)
@@ -6908,20 +16370,19 @@
   )
   (if
    (i32.eqz
-    (i32.eq
-     (call $~lib/string/String#lastIndexOf
-      (get_global $std/string/str)
-      (i32.const 192)
-      (i32.const 0)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#repeat
+      (i32.const 280)
+      (i32.const 3)
      )
-     (i32.const 0)
+     (i32.const 34944)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 65)
+     (i32.const 136)
      (i32.const 0)
     )
     (unreachable)
@@ -6929,19 +16390,19 @@
   )
   (if
    (i32.eqz
-    (f64.eq
-     (call $~lib/string/parseInt
-      (i32.const 480)
-      (i32.const 0)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#repeat
+      (i32.const 728)
+      (i32.const 4)
      )
-     (f64.const 0)
+     (i32.const 34960)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 71)
+     (i32.const 137)
      (i32.const 0)
     )
     (unreachable)
@@ -6949,19 +16410,19 @@
   )
   (if
    (i32.eqz
-    (f64.eq
-     (call $~lib/string/parseInt
-      (i32.const 488)
-      (i32.const 0)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#repeat
+      (i32.const 280)
+      (i32.const 5)
      )
-     (f64.const 1)
+     (i32.const 34984)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 72)
+     (i32.const 138)
      (i32.const 0)
     )
     (unreachable)
@@ -6969,19 +16430,19 @@
   )
   (if
    (i32.eqz
-    (f64.eq
-     (call $~lib/string/parseInt
-      (i32.const 496)
-      (i32.const 0)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#repeat
+      (i32.const 280)
+      (i32.const 6)
      )
-     (f64.const 5)
+     (i32.const 35000)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 73)
+     (i32.const 139)
      (i32.const 0)
     )
     (unreachable)
@@ -6989,19 +16450,19 @@
   )
   (if
    (i32.eqz
-    (f64.eq
-     (call $~lib/string/parseInt
-      (i32.const 512)
-      (i32.const 0)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#repeat
+      (i32.const 280)
+      (i32.const 7)
      )
-     (f64.const 455)
+     (i32.const 35016)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 74)
+     (i32.const 140)
      (i32.const 0)
     )
     (unreachable)
@@ -7009,19 +16470,16 @@
   )
   (if
    (i32.eqz
-    (f64.eq
-     (call $~lib/string/parseInt
-      (i32.const 528)
-      (i32.const 0)
-     )
-     (f64.const 3855)
+    (call $~lib/string/String.__ne
+     (i32.const 35040)
+     (i32.const 35056)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 75)
+     (i32.const 142)
      (i32.const 0)
     )
     (unreachable)
@@ -7029,19 +16487,19 @@
   )
   (if
    (i32.eqz
-    (f64.eq
-     (call $~lib/string/parseInt
-      (i32.const 544)
-      (i32.const 0)
+    (i32.eq
+     (call $~lib/string/String#localeCompare
+      (i32.const 35040)
+      (i32.const 35040)
      )
-     (f64.const 3855)
+     (i32.const 0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 76)
+     (i32.const 143)
      (i32.const 0)
     )
     (unreachable)
@@ -7049,19 +16507,19 @@
   )
   (if
    (i32.eqz
-    (f64.eq
-     (call $~lib/string/parseInt
-      (i32.const 560)
-      (i32.const 0)
+    (i32.eq
+     (call $~lib/string/String#localeCompare
+      (i32.const 288)
+      (i32.const 199144)
      )
-     (f64.const 11)
+     (i32.const -1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 77)
+     (i32.const 144)
      (i32.const 0)
     )
     (unreachable)
@@ -7069,19 +16527,19 @@
   )
   (if
    (i32.eqz
-    (f64.eq
-     (call $~lib/string/parseInt
-      (i32.const 576)
-      (i32.const 0)
+    (i32.eq
+     (call $~lib/string/String#localeCompare
+      (i32.const 199144)
+      (i32.const 288)
      )
-     (f64.const 1)
+     (i32.const 1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 78)
+     (i32.const 145)
      (i32.const 0)
     )
     (unreachable)
@@ -7089,18 +16547,19 @@
   )
   (if
    (i32.eqz
-    (f64.eq
-     (call $~lib/string/parseFloat
-      (i32.const 480)
+    (i32.eq
+     (call $~lib/string/String#localeCompare
+      (i32.const 728)
+      (i32.const 288)
      )
-     (f64.const 0)
+     (i32.const -1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 80)
+     (i32.const 146)
      (i32.const 0)
     )
     (unreachable)
@@ -7108,18 +16567,19 @@
   )
   (if
    (i32.eqz
-    (f64.eq
-     (call $~lib/string/parseFloat
-      (i32.const 488)
+    (i32.eq
+     (call $~lib/string/String#localeCompare
+      (i32.const 288)
+      (i32.const 256)
      )
-     (f64.const 1)
+     (i32.const 1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 81)
+     (i32.const 147)
      (i32.const 0)
     )
     (unreachable)
@@ -7127,18 +16587,19 @@
   )
   (if
    (i32.eqz
-    (f64.eq
-     (call $~lib/string/parseFloat
-      (i32.const 592)
+    (i32.eq
+     (call $~lib/string/String#localeCompare
+      (i32.const 280)
+      (i32.const 199160)
      )
-     (f64.const 0.1)
+     (i32.const -1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 82)
+     (i32.const 148)
      (i32.const 0)
     )
     (unreachable)
@@ -7146,18 +16607,19 @@
   )
   (if
    (i32.eqz
-    (f64.eq
-     (call $~lib/string/parseFloat
-      (i32.const 608)
+    (i32.eq
+     (call $~lib/string/String#localeCompare
+      (i32.const 199160)
+      (i32.const 280)
      )
-     (f64.const 0.25)
+     (i32.const 1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 83)
+     (i32.const 149)
      (i32.const 0)
     )
     (unreachable)
@@ -7165,41 +16627,39 @@
   )
   (if
    (i32.eqz
-    (f64.eq
-     (call $~lib/string/parseFloat
-      (i32.const 624)
+    (i32.eq
+     (call $~lib/string/String#localeCompare
+      (i32.const 280)
+      (i32.const 199168)
      )
-     (f64.const 0.1)
+     (i32.const -1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 84)
+     (i32.const 150)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/string/c
-   (call $~lib/string/String.__concat
-    (i32.const 280)
-    (i32.const 648)
-   )
-  )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (get_global $std/string/c)
-     (i32.const 656)
+    (i32.eq
+     (call $~lib/string/String#localeCompare
+      (i32.const 199168)
+      (i32.const 720)
+     )
+     (i32.const -1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 87)
+     (i32.const 151)
      (i32.const 0)
     )
     (unreachable)
@@ -7207,33 +16667,39 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__ne
-     (get_global $std/string/c)
-     (i32.const 280)
+    (i32.eq
+     (call $~lib/string/String#localeCompare
+      (i32.const 199176)
+      (i32.const 199184)
+     )
+     (i32.const -1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 88)
+     (i32.const 152)
      (i32.const 0)
     )
     (unreachable)
    )
   )
   (if
-   (i32.eqz
-    (call $~lib/string/String.__eq
-     (i32.const 256)
-     (i32.const 256)
+   (i32.eqz
+    (i32.eq
+     (call $~lib/string/String#localeCompare
+      (i32.const 280)
+      (i32.const 199192)
+     )
+     (i32.const -1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 89)
+     (i32.const 153)
      (i32.const 0)
     )
     (unreachable)
@@ -7241,16 +16707,19 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__ne
-     (i32.const 256)
-     (get_global $std/string/nullStr)
+    (i32.eq
+     (call $~lib/string/String#localeCompare
+      (i32.const 199200)
+      (i32.const 199216)
+     )
+     (i32.const -1)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 90)
+     (i32.const 154)
      (i32.const 0)
     )
     (unreachable)
@@ -7258,16 +16727,19 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__gt
-     (i32.const 648)
-     (i32.const 280)
+    (i32.eq
+     (call $~lib/string/String#localeCompare
+      (i32.const 199176)
+      (i32.const 199232)
+     )
+     (i32.const 0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 92)
+     (i32.const 155)
      (i32.const 0)
     )
     (unreachable)
@@ -7275,16 +16747,20 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__gt
-     (i32.const 664)
-     (i32.const 280)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#replace
+      (i32.const 288)
+      (i32.const 256)
+      (i32.const 199240)
+     )
+     (i32.const 199256)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 93)
+     (i32.const 157)
      (i32.const 0)
     )
     (unreachable)
@@ -7292,16 +16768,20 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__gte
-     (i32.const 664)
-     (i32.const 672)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#replace
+      (i32.const 392)
+      (i32.const 720)
+      (i32.const 512)
+     )
+     (i32.const 199272)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 94)
+     (i32.const 158)
      (i32.const 0)
     )
     (unreachable)
@@ -7309,16 +16789,20 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__gt
-     (i32.const 664)
-     (i32.const 656)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#replace
+      (i32.const 288)
+      (i32.const 199288)
+      (i32.const 512)
+     )
+     (i32.const 288)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 95)
+     (i32.const 159)
      (i32.const 0)
     )
     (unreachable)
@@ -7326,18 +16810,20 @@
   )
   (if
    (i32.eqz
-    (i32.eqz
-     (call $~lib/string/String.__lt
-      (i32.const 664)
-      (i32.const 656)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#replace
+      (i32.const 288)
+      (i32.const 288)
+      (i32.const 256)
      )
+     (i32.const 256)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 96)
+     (i32.const 160)
      (i32.const 0)
     )
     (unreachable)
@@ -7345,18 +16831,20 @@
   )
   (if
    (i32.eqz
-    (i32.eqz
-     (call $~lib/string/String.__lt
-      (i32.const 648)
-      (get_global $std/string/nullStr)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#replace
+      (i32.const 288)
+      (i32.const 720)
+      (i32.const 199296)
      )
+     (i32.const 199320)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 98)
+     (i32.const 161)
      (i32.const 0)
     )
     (unreachable)
@@ -7364,18 +16852,20 @@
   )
   (if
    (i32.eqz
-    (i32.eqz
-     (call $~lib/string/String.__lt
-      (get_global $std/string/nullStr)
-      (i32.const 648)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#replace
+      (i32.const 288)
+      (i32.const 720)
+      (i32.const 199344)
      )
+     (i32.const 199360)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 99)
+     (i32.const 162)
      (i32.const 0)
     )
     (unreachable)
@@ -7383,16 +16873,20 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__gt
-     (i32.const 288)
-     (i32.const 256)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#replaceAll
+      (i32.const 392)
+      (i32.const 720)
+      (i32.const 512)
+     )
+     (i32.const 199376)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 101)
+     (i32.const 163)
      (i32.const 0)
     )
     (unreachable)
@@ -7400,16 +16894,20 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__lt
-     (i32.const 256)
-     (i32.const 288)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#replaceAll
+      (i32.const 34944)
+      (i32.const 34936)
+      (i32.const 720)
+     )
+     (i32.const 34928)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 102)
+     (i32.const 164)
      (i32.const 0)
     )
     (unreachable)
@@ -7417,16 +16915,20 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__gte
-     (i32.const 288)
-     (i32.const 256)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#replaceAll
+      (i32.const 288)
+      (i32.const 256)
+      (i32.const 199392)
+     )
+     (i32.const 199400)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 103)
+     (i32.const 165)
      (i32.const 0)
     )
     (unreachable)
@@ -7434,16 +16936,20 @@
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__lte
-     (i32.const 256)
-     (i32.const 288)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#replaceAll
+      (i32.const 256)
+      (i32.const 256)
+      (i32.const 199392)
+     )
+     (i32.const 199392)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 104)
+     (i32.const 166)
      (i32.const 0)
     )
     (unreachable)
@@ -7451,18 +16957,20 @@
   )
   (if
    (i32.eqz
-    (i32.eqz
-     (call $~lib/string/String.__lt
-      (i32.const 288)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#replaceAll
+      (i32.const 199424)
+      (i32.const 728)
       (i32.const 256)
      )
+     (i32.const 256)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 105)
+     (i32.const 167)
      (i32.const 0)
     )
     (unreachable)
@@ -7470,37 +16978,56 @@
   )
   (if
    (i32.eqz
-    (i32.eqz
-     (call $~lib/string/String.__gt
-      (i32.const 256)
-      (i32.const 288)
+    (call $~lib/string/String.__eq
+     (call $~lib/string/String#replaceAll
+      (i32.const 392)
+      (i32.const 720)
+      (i32.const 199440)
      )
+     (i32.const 199456)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 106)
+     (i32.const 168)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/string/parts
+   (block (result i32)
+    (set_global $~argc
+     (i32.const 1)
+    )
+    (call $~lib/string/String#split|trampoline
+     (i32.const 199496)
+     (i32.const 504)
+     (i32.const 0)
+    )
+   )
+  )
   (if
    (i32.eqz
-    (i32.eqz
-     (call $~lib/string/String.__lt
-      (i32.const 256)
-      (i32.const 256)
+    (i32.eq
+     (block $~lib/array/Array<String>#get:length|inlined.2 (result i32)
+      (set_local $0
+       (get_global $std/string/parts)
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
      )
+     (i32.const 4)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 107)
+     (i32.const 171)
      (i32.const 0)
     )
     (unreachable)
@@ -7508,283 +17035,611 @@
   )
   (if
    (i32.eqz
-    (i32.eqz
-     (call $~lib/string/String.__gt
-      (i32.const 256)
-      (i32.const 256)
+    (if (result i32)
+     (tee_local $0
+      (if (result i32)
+       (tee_local $0
+        (if (result i32)
+         (tee_local $0
+          (call $~lib/string/String.__eq
+           (call $~lib/array/Array<String>#__get
+            (get_global $std/string/parts)
+            (i32.const 0)
+           )
+           (i32.const 280)
+          )
+         )
+         (call $~lib/string/String.__eq
+          (call $~lib/array/Array<String>#__get
+           (get_global $std/string/parts)
+           (i32.const 1)
+          )
+          (i32.const 720)
+         )
+         (get_local $0)
+        )
+       )
+       (call $~lib/string/String.__eq
+        (call $~lib/array/Array<String>#__get
+         (get_global $std/string/parts)
+         (i32.const 2)
+        )
+        (i32.const 256)
+       )
+       (get_local $0)
+      )
+     )
+     (call $~lib/string/String.__eq
+      (call $~lib/array/Array<String>#__get
+       (get_global $std/string/parts)
+       (i32.const 3)
+      )
+      (i32.const 199512)
      )
+     (get_local $0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 108)
+     (i32.const 172)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/string/parts
+   (block (result i32)
+    (set_global $~argc
+     (i32.const 1)
+    )
+    (call $~lib/string/String#split|trampoline
+     (i32.const 199520)
+     (i32.const 199536)
+     (i32.const 0)
+    )
+   )
+  )
   (if
    (i32.eqz
-    (call $~lib/string/String.__gte
-     (i32.const 256)
-     (i32.const 256)
+    (if (result i32)
+     (tee_local $0
+      (if (result i32)
+       (tee_local $0
+        (i32.eq
+         (block $~lib/array/Array<String>#get:length|inlined.3 (result i32)
+          (set_local $0
+           (get_global $std/string/parts)
+          )
+          (i32.load offset=4
+           (get_local $0)
+          )
+         )
+         (i32.const 2)
+        )
+       )
+       (call $~lib/string/String.__eq
+        (call $~lib/array/Array<String>#__get
+         (get_global $std/string/parts)
+         (i32.const 0)
+        )
+        (i32.const 280)
+       )
+       (get_local $0)
+      )
+     )
+     (call $~lib/string/String.__eq
+      (call $~lib/array/Array<String>#__get
+       (get_global $std/string/parts)
+       (i32.const 1)
+      )
+      (i32.const 720)
+     )
+     (get_local $0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 109)
+     (i32.const 174)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/string/parts
+   (block (result i32)
+    (set_global $~argc
+     (i32.const 1)
+    )
+    (call $~lib/string/String#split|trampoline
+     (i32.const 199544)
+     (i32.const 504)
+     (i32.const 0)
+    )
+   )
+  )
   (if
    (i32.eqz
-    (call $~lib/string/String.__lte
-     (i32.const 256)
-     (i32.const 256)
+    (if (result i32)
+     (tee_local $0
+      (if (result i32)
+       (tee_local $0
+        (if (result i32)
+         (tee_local $0
+          (i32.eq
+           (block $~lib/array/Array<String>#get:length|inlined.4 (result i32)
+            (set_local $0
+             (get_global $std/string/parts)
+            )
+            (i32.load offset=4
+             (get_local $0)
+            )
+           )
+           (i32.const 3)
+          )
+         )
+         (call $~lib/string/String.__eq
+          (call $~lib/array/Array<String>#__get
+           (get_global $std/string/parts)
+           (i32.const 0)
+          )
+          (i32.const 256)
+         )
+         (get_local $0)
+        )
+       )
+       (call $~lib/string/String.__eq
+        (call $~lib/array/Array<String>#__get
+         (get_global $std/string/parts)
+         (i32.const 1)
+        )
+        (i32.const 280)
+       )
+       (get_local $0)
+      )
+     )
+     (call $~lib/string/String.__eq
+      (call $~lib/array/Array<String>#__get
+       (get_global $std/string/parts)
+       (i32.const 2)
+      )
+      (i32.const 256)
+     )
+     (get_local $0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 110)
+     (i32.const 176)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/string/a
-   (call $~lib/string/String.fromCodePoint
-    (i32.const 65377)
-   )
-  )
-  (set_global $std/string/b
-   (call $~lib/string/String.__concat
-    (call $~lib/string/String.fromCodePoint
-     (i32.const 55296)
+  (set_global $std/string/parts
+   (block (result i32)
+    (set_global $~argc
+     (i32.const 1)
     )
-    (call $~lib/string/String.fromCodePoint
-     (i32.const 56322)
+    (call $~lib/string/String#split|trampoline
+     (i32.const 288)
+     (i32.const 256)
+     (i32.const 0)
     )
    )
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__gt
-     (get_global $std/string/a)
-     (get_global $std/string/b)
+    (if (result i32)
+     (tee_local $0
+      (if (result i32)
+       (tee_local $0
+        (if (result i32)
+         (tee_local $0
+          (i32.eq
+           (block $~lib/array/Array<String>#get:length|inlined.5 (result i32)
+            (set_local $0
+             (get_global $std/string/parts)
+            )
+            (i32.load offset=4
+             (get_local $0)
+            )
+           )
+           (i32.const 3)
+          )
+         )
+         (call $~lib/string/String.__eq
+          (call $~lib/array/Array<String>#__get
+           (get_global $std/string/parts)
+           (i32.const 0)
+          )
+          (i32.const 280)
+         )
+         (get_local $0)
+        )
+       )
+       (call $~lib/string/String.__eq
+        (call $~lib/array/Array<String>#__get
+         (get_global $std/string/parts)
+         (i32.const 1)
+        )
+        (i32.const 720)
+       )
+       (get_local $0)
+      )
+     )
+     (call $~lib/string/String.__eq
+      (call $~lib/array/Array<String>#__get
+       (get_global $std/string/parts)
+       (i32.const 2)
+      )
+      (i32.const 199512)
+     )
+     (get_local $0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 114)
+     (i32.const 178)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (if
-   (i32.eqz
-    (i32.eq
-     (i32.load
-      (i32.const 320)
-     )
-     (i32.const 3)
+  (set_global $std/string/parts
+   (block (result i32)
+    (set_global $~argc
+     (i32.const 0)
     )
-   )
-   (block
-    (call $~lib/env/abort
+    (call $~lib/string/String#split|trampoline
+     (i32.const 288)
      (i32.const 0)
-     (i32.const 48)
-     (i32.const 116)
      (i32.const 0)
     )
-    (unreachable)
    )
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (call $~lib/string/String#repeat
-      (i32.const 256)
-      (i32.const 100)
+    (if (result i32)
+     (tee_local $0
+      (i32.eq
+       (block $~lib/array/Array<String>#get:length|inlined.6 (result i32)
+        (set_local $0
+         (get_global $std/string/parts)
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (i32.const 1)
+      )
      )
-     (i32.const 256)
+     (call $~lib/string/String.__eq
+      (call $~lib/array/Array<String>#__get
+       (get_global $std/string/parts)
+       (i32.const 0)
+      )
+      (i32.const 288)
+     )
+     (get_local $0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 118)
+     (i32.const 180)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (if
-   (i32.eqz
-    (call $~lib/string/String.__eq
-     (call $~lib/string/String#repeat
-      (i32.const 280)
-      (i32.const 0)
-     )
-     (i32.const 256)
+  (set_global $std/string/parts
+   (block (result i32)
+    (set_global $~argc
+     (i32.const 1)
     )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 48)
-     (i32.const 119)
+    (call $~lib/string/String#split|trampoline
+     (i32.const 288)
+     (i32.const 512)
      (i32.const 0)
     )
-    (unreachable)
    )
   )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (call $~lib/string/String#repeat
-      (i32.const 280)
-      (i32.const 1)
+    (if (result i32)
+     (tee_local $0
+      (i32.eq
+       (block $~lib/array/Array<String>#get:length|inlined.7 (result i32)
+        (set_local $0
+         (get_global $std/string/parts)
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (i32.const 1)
+      )
      )
-     (i32.const 280)
+     (call $~lib/string/String.__eq
+      (call $~lib/array/Array<String>#__get
+       (get_global $std/string/parts)
+       (i32.const 0)
+      )
+      (i32.const 288)
+     )
+     (get_local $0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 120)
+     (i32.const 182)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/string/parts
+   (block (result i32)
+    (set_global $~argc
+     (i32.const 1)
+    )
+    (call $~lib/string/String#split|trampoline
+     (i32.const 256)
+     (i32.const 504)
+     (i32.const 0)
+    )
+   )
+  )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (call $~lib/string/String#repeat
-      (i32.const 280)
-      (i32.const 2)
+    (if (result i32)
+     (tee_local $0
+      (i32.eq
+       (block $~lib/array/Array<String>#get:length|inlined.8 (result i32)
+        (set_local $0
+         (get_global $std/string/parts)
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (call $~lib/string/String.__eq
+      (call $~lib/array/Array<String>#__get
+       (get_global $std/string/parts)
+       (i32.const 0)
+      )
+      (i32.const 256)
      )
-     (i32.const 672)
+     (get_local $0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 121)
+     (i32.const 184)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/string/parts
+   (block (result i32)
+    (set_global $~argc
+     (i32.const 1)
+    )
+    (call $~lib/string/String#split|trampoline
+     (i32.const 256)
+     (i32.const 256)
+     (i32.const 0)
+    )
+   )
+  )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (call $~lib/string/String#repeat
-      (i32.const 280)
-      (i32.const 3)
+    (i32.eq
+     (block $~lib/array/Array<String>#get:length|inlined.9 (result i32)
+      (set_local $0
+       (get_global $std/string/parts)
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
      )
-     (i32.const 680)
+     (i32.const 0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 122)
+     (i32.const 186)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/string/parts
+   (call $~lib/string/String#split
+    (i32.const 199560)
+    (i32.const 504)
+    (i32.const 2)
+   )
+  )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (call $~lib/string/String#repeat
-      (i32.const 656)
-      (i32.const 4)
+    (if (result i32)
+     (tee_local $0
+      (if (result i32)
+       (tee_local $0
+        (i32.eq
+         (block $~lib/array/Array<String>#get:length|inlined.10 (result i32)
+          (set_local $0
+           (get_global $std/string/parts)
+          )
+          (i32.load offset=4
+           (get_local $0)
+          )
+         )
+         (i32.const 2)
+        )
+       )
+       (call $~lib/string/String.__eq
+        (call $~lib/array/Array<String>#__get
+         (get_global $std/string/parts)
+         (i32.const 0)
+        )
+        (i32.const 280)
+       )
+       (get_local $0)
+      )
+     )
+     (call $~lib/string/String.__eq
+      (call $~lib/array/Array<String>#__get
+       (get_global $std/string/parts)
+       (i32.const 1)
+      )
+      (i32.const 720)
      )
-     (i32.const 696)
+     (get_local $0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 123)
+     (i32.const 188)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/string/parts
+   (call $~lib/string/String#split
+    (i32.const 288)
+    (i32.const 256)
+    (i32.const 2)
+   )
+  )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (call $~lib/string/String#repeat
-      (i32.const 280)
-      (i32.const 5)
+    (if (result i32)
+     (tee_local $0
+      (if (result i32)
+       (tee_local $0
+        (i32.eq
+         (block $~lib/array/Array<String>#get:length|inlined.11 (result i32)
+          (set_local $0
+           (get_global $std/string/parts)
+          )
+          (i32.load offset=4
+           (get_local $0)
+          )
+         )
+         (i32.const 2)
+        )
+       )
+       (call $~lib/string/String.__eq
+        (call $~lib/array/Array<String>#__get
+         (get_global $std/string/parts)
+         (i32.const 0)
+        )
+        (i32.const 280)
+       )
+       (get_local $0)
+      )
      )
-     (i32.const 720)
+     (call $~lib/string/String.__eq
+      (call $~lib/array/Array<String>#__get
+       (get_global $std/string/parts)
+       (i32.const 1)
+      )
+      (i32.const 720)
+     )
+     (get_local $0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 124)
+     (i32.const 190)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/string/parts
+   (call $~lib/string/String#split
+    (i32.const 199576)
+    (i32.const 504)
+    (i32.const 0)
+   )
+  )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (call $~lib/string/String#repeat
-      (i32.const 280)
-      (i32.const 6)
+    (i32.eq
+     (block $~lib/array/Array<String>#get:length|inlined.12 (result i32)
+      (set_local $0
+       (get_global $std/string/parts)
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
      )
-     (i32.const 736)
+     (i32.const 0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 125)
+     (i32.const 192)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/string/parts
+   (call $~lib/string/String#split
+    (i32.const 199576)
+    (i32.const 504)
+    (i32.const -1)
+   )
+  )
   (if
    (i32.eqz
-    (call $~lib/string/String.__eq
-     (call $~lib/string/String#repeat
-      (i32.const 280)
-      (i32.const 7)
+    (i32.eq
+     (block $~lib/array/Array<String>#get:length|inlined.13 (result i32)
+      (set_local $0
+       (get_global $std/string/parts)
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
      )
-     (i32.const 752)
+     (i32.const 2)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 126)
+     (i32.const 194)
      (i32.const 0)
     )
     (unreachable)
@@ -7796,14 +17651,14 @@
      (call $~lib/internal/itoa/itoa32
       (i32.const 0)
      )
-     (i32.const 480)
+     (i32.const 552)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 128)
+     (i32.const 196)
      (i32.const 0)
     )
     (unreachable)
@@ -7815,14 +17670,14 @@
      (call $~lib/internal/itoa/itoa32
       (i32.const 1)
      )
-     (i32.const 488)
+     (i32.const 560)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 129)
+     (i32.const 197)
      (i32.const 0)
     )
     (unreachable)
@@ -7834,14 +17689,14 @@
      (call $~lib/internal/itoa/itoa32
       (i32.const 8)
      )
-     (i32.const 1368)
+     (i32.const 199592)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 130)
+     (i32.const 198)
      (i32.const 0)
     )
     (unreachable)
@@ -7860,7 +17715,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 131)
+     (i32.const 199)
      (i32.const 0)
     )
     (unreachable)
@@ -7872,14 +17727,14 @@
      (call $~lib/internal/itoa/itoa32
       (i32.const -1000)
      )
-     (i32.const 1376)
+     (i32.const 199600)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 132)
+     (i32.const 200)
      (i32.const 0)
     )
     (unreachable)
@@ -7891,14 +17746,14 @@
      (call $~lib/internal/itoa/itoa32
       (i32.const 1234)
      )
-     (i32.const 1392)
+     (i32.const 199616)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 133)
+     (i32.const 201)
      (i32.const 0)
     )
     (unreachable)
@@ -7910,14 +17765,14 @@
      (call $~lib/internal/itoa/itoa32
       (i32.const 12345)
      )
-     (i32.const 1408)
+     (i32.const 199632)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 134)
+     (i32.const 202)
      (i32.const 0)
     )
     (unreachable)
@@ -7929,14 +17784,14 @@
      (call $~lib/internal/itoa/itoa32
       (i32.const 123456)
      )
-     (i32.const 1424)
+     (i32.const 199648)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 135)
+     (i32.const 203)
      (i32.const 0)
     )
     (unreachable)
@@ -7948,14 +17803,14 @@
      (call $~lib/internal/itoa/itoa32
       (i32.const 1111111)
      )
-     (i32.const 1440)
+     (i32.const 199664)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 136)
+     (i32.const 204)
      (i32.const 0)
     )
     (unreachable)
@@ -7967,14 +17822,14 @@
      (call $~lib/internal/itoa/itoa32
       (i32.const 1234567)
      )
-     (i32.const 1464)
+     (i32.const 199688)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 137)
+     (i32.const 205)
      (i32.const 0)
     )
     (unreachable)
@@ -7986,14 +17841,14 @@
      (call $~lib/internal/itoa/itoa32
       (i32.const 2147483646)
      )
-     (i32.const 1488)
+     (i32.const 199712)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 138)
+     (i32.const 206)
      (i32.const 0)
     )
     (unreachable)
@@ -8005,14 +17860,14 @@
      (call $~lib/internal/itoa/itoa32
       (i32.const 2147483647)
      )
-     (i32.const 1512)
+     (i32.const 199736)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 139)
+     (i32.const 207)
      (i32.const 0)
     )
     (unreachable)
@@ -8024,14 +17879,14 @@
      (call $~lib/internal/itoa/itoa32
       (i32.const -2147483648)
      )
-     (i32.const 1536)
+     (i32.const 199760)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 140)
+     (i32.const 208)
      (i32.const 0)
     )
     (unreachable)
@@ -8043,14 +17898,14 @@
      (call $~lib/internal/itoa/itoa32
       (i32.const -1)
      )
-     (i32.const 1568)
+     (i32.const 199792)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 141)
+     (i32.const 209)
      (i32.const 0)
     )
     (unreachable)
@@ -8062,14 +17917,14 @@
      (call $~lib/internal/itoa/utoa32
       (i32.const 0)
      )
-     (i32.const 480)
+     (i32.const 552)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 143)
+     (i32.const 211)
      (i32.const 0)
     )
     (unreachable)
@@ -8081,14 +17936,14 @@
      (call $~lib/internal/itoa/utoa32
       (i32.const 1000)
      )
-     (i32.const 1576)
+     (i32.const 199800)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 144)
+     (i32.const 212)
      (i32.const 0)
     )
     (unreachable)
@@ -8100,14 +17955,14 @@
      (call $~lib/internal/itoa/utoa32
       (i32.const 2147483647)
      )
-     (i32.const 1512)
+     (i32.const 199736)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 145)
+     (i32.const 213)
      (i32.const 0)
     )
     (unreachable)
@@ -8119,14 +17974,14 @@
      (call $~lib/internal/itoa/utoa32
       (i32.const -2147483648)
      )
-     (i32.const 1592)
+     (i32.const 199816)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 146)
+     (i32.const 214)
      (i32.const 0)
     )
     (unreachable)
@@ -8138,14 +17993,14 @@
      (call $~lib/internal/itoa/utoa32
       (get_global $~lib/builtins/u32.MAX_VALUE)
      )
-     (i32.const 1616)
+     (i32.const 199840)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 147)
+     (i32.const 215)
      (i32.const 0)
     )
     (unreachable)
@@ -8157,14 +18012,14 @@
      (call $~lib/internal/itoa/utoa64
       (i64.const 0)
      )
-     (i32.const 480)
+     (i32.const 552)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 149)
+     (i32.const 217)
      (i32.const 0)
     )
     (unreachable)
@@ -8176,14 +18031,14 @@
      (call $~lib/internal/itoa/utoa64
       (i64.const 1234)
      )
-     (i32.const 1392)
+     (i32.const 199616)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 150)
+     (i32.const 218)
      (i32.const 0)
     )
     (unreachable)
@@ -8195,14 +18050,14 @@
      (call $~lib/internal/itoa/utoa64
       (i64.const 99999999)
      )
-     (i32.const 2232)
+     (i32.const 199864)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 151)
+     (i32.const 219)
      (i32.const 0)
     )
     (unreachable)
@@ -8214,14 +18069,14 @@
      (call $~lib/internal/itoa/utoa64
       (i64.const 100000000)
      )
-     (i32.const 2256)
+     (i32.const 199888)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 152)
+     (i32.const 220)
      (i32.const 0)
     )
     (unreachable)
@@ -8233,14 +18088,14 @@
      (call $~lib/internal/itoa/utoa64
       (i64.const 4294967295)
      )
-     (i32.const 1616)
+     (i32.const 199840)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 153)
+     (i32.const 221)
      (i32.const 0)
     )
     (unreachable)
@@ -8252,14 +18107,14 @@
      (call $~lib/internal/itoa/utoa64
       (i64.const 68719476735)
      )
-     (i32.const 2280)
+     (i32.const 199912)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 154)
+     (i32.const 222)
      (i32.const 0)
     )
     (unreachable)
@@ -8271,14 +18126,14 @@
      (call $~lib/internal/itoa/utoa64
       (i64.const 868719476735)
      )
-     (i32.const 2312)
+     (i32.const 199944)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 155)
+     (i32.const 223)
      (i32.const 0)
     )
     (unreachable)
@@ -8290,14 +18145,14 @@
      (call $~lib/internal/itoa/utoa64
       (i64.const 999868719476735)
      )
-     (i32.const 2344)
+     (i32.const 199976)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 156)
+     (i32.const 224)
      (i32.const 0)
     )
     (unreachable)
@@ -8309,14 +18164,14 @@
      (call $~lib/internal/itoa/utoa64
       (i64.const 9999868719476735)
      )
-     (i32.const 2384)
+     (i32.const 200016)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 157)
+     (i32.const 225)
      (i32.const 0)
     )
     (unreachable)
@@ -8328,14 +18183,14 @@
      (call $~lib/internal/itoa/utoa64
       (i64.const 19999868719476735)
      )
-     (i32.const 2424)
+     (i32.const 200056)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 158)
+     (i32.const 226)
      (i32.const 0)
     )
     (unreachable)
@@ -8347,14 +18202,14 @@
      (call $~lib/internal/itoa/utoa64
       (get_global $~lib/builtins/u64.MAX_VALUE)
      )
-     (i32.const 2464)
+     (i32.const 200096)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 159)
+     (i32.const 227)
      (i32.const 0)
     )
     (unreachable)
@@ -8366,14 +18221,14 @@
      (call $~lib/internal/itoa/itoa64
       (i64.const 0)
      )
-     (i32.const 480)
+     (i32.const 552)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 161)
+     (i32.const 229)
      (i32.const 0)
     )
     (unreachable)
@@ -8385,14 +18240,14 @@
      (call $~lib/internal/itoa/itoa64
       (i64.const -1234)
      )
-     (i32.const 2512)
+     (i32.const 200144)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 162)
+     (i32.const 230)
      (i32.const 0)
     )
     (unreachable)
@@ -8404,14 +18259,14 @@
      (call $~lib/internal/itoa/itoa64
       (i64.const 4294967295)
      )
-     (i32.const 1616)
+     (i32.const 199840)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 163)
+     (i32.const 231)
      (i32.const 0)
     )
     (unreachable)
@@ -8423,14 +18278,14 @@
      (call $~lib/internal/itoa/itoa64
       (i64.const -4294967295)
      )
-     (i32.const 2528)
+     (i32.const 200160)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 164)
+     (i32.const 232)
      (i32.const 0)
     )
     (unreachable)
@@ -8442,14 +18297,14 @@
      (call $~lib/internal/itoa/itoa64
       (i64.const 68719476735)
      )
-     (i32.const 2280)
+     (i32.const 199912)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 165)
+     (i32.const 233)
      (i32.const 0)
     )
     (unreachable)
@@ -8461,14 +18316,14 @@
      (call $~lib/internal/itoa/itoa64
       (i64.const -68719476735)
      )
-     (i32.const 2560)
+     (i32.const 200192)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 166)
+     (i32.const 234)
      (i32.const 0)
     )
     (unreachable)
@@ -8480,14 +18335,14 @@
      (call $~lib/internal/itoa/itoa64
       (i64.const -868719476735)
      )
-     (i32.const 2592)
+     (i32.const 200224)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 167)
+     (i32.const 235)
      (i32.const 0)
     )
     (unreachable)
@@ -8499,14 +18354,14 @@
      (call $~lib/internal/itoa/itoa64
       (i64.const -999868719476735)
      )
-     (i32.const 2624)
+     (i32.const 200256)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 168)
+     (i32.const 236)
      (i32.const 0)
     )
     (unreachable)
@@ -8518,14 +18373,14 @@
      (call $~lib/internal/itoa/itoa64
       (i64.const -19999868719476735)
      )
-     (i32.const 2664)
+     (i32.const 200296)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 169)
+     (i32.const 237)
      (i32.const 0)
     )
     (unreachable)
@@ -8537,14 +18392,14 @@
      (call $~lib/internal/itoa/itoa64
       (get_global $~lib/builtins/i64.MAX_VALUE)
      )
-     (i32.const 2704)
+     (i32.const 200336)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 170)
+     (i32.const 238)
      (i32.const 0)
     )
     (unreachable)
@@ -8556,14 +18411,14 @@
      (call $~lib/internal/itoa/itoa64
       (get_global $~lib/builtins/i64.MIN_VALUE)
      )
-     (i32.const 2752)
+     (i32.const 200384)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 171)
+     (i32.const 239)
      (i32.const 0)
     )
     (unreachable)
@@ -676,13 +676,13 @@
      (set_local $3
       (i32.add
        (get_local $3)
-       (i32.const 1)
+       (i32.const 2)
       )
      )
      (set_local $1
       (i32.add
        (get_local $1)
-       (i32.const 1)
+       (i32.const 2)
       )
      )
      (br $continue|0)
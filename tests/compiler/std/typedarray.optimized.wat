@@ -4,27 +4,147 @@
  (type $iii (func (param i32 i32) (result i32)))
  (type $ii (func (param i32) (result i32)))
  (type $iiiv (func (param i32 i32 i32)))
+ (type $iiii (func (param i32 i32 i32) (result i32)))
  (type $iiFv (func (param i32 i32 f64)))
  (type $FFi (func (param f64 f64) (result i32)))
  (type $iiF (func (param i32 i32) (result f64)))
+ (type $iiiii (func (param i32 i32 i32 i32) (result i32)))
+ (type $Fi (func (param f64) (result i32)))
+ (type $Iiv (func (param i64 i32)))
+ (type $IIIiI (func (param i64 i64 i64 i32) (result i64)))
+ (type $III (func (param i64 i64) (result i64)))
+ (type $Ii (func (param i64) (result i32)))
+ (type $iIiv (func (param i32 i64 i32)))
+ (type $iif (func (param i32 i32) (result f32)))
+ (type $FfiiF (func (param f64 f32 i32 i32) (result f64)))
  (type $v (func))
- (type $FUNCSIG$vii (func (param i32 i32)))
  (type $FUNCSIG$i (func (result i32)))
  (type $FUNCSIG$ii (func (param i32) (result i32)))
  (type $FUNCSIG$v (func))
+ (type $FUNCSIG$viiii (func (param i32 i32 i32 i32)))
+ (type $FUNCSIG$iiii (func (param i32 i32 i32) (result i32)))
+ (type $FUNCSIG$vii (func (param i32 i32)))
+ (type $FUNCSIG$iii (func (param i32 i32) (result i32)))
+ (type $FUNCSIG$vi (func (param i32)))
+ (type $FUNCSIG$di (func (param i32) (result f64)))
  (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
  (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
  (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
  (global $std/typedarray/arr (mut i32) (i32.const 0))
+ (global $std/typedarray/sub (mut i32) (i32.const 0))
  (global $std/typedarray/af64 (mut i32) (i32.const 0))
+ (global $~env (mut i32) (i32.const 0))
  (global $~argc (mut i32) (i32.const 0))
  (global $std/typedarray/clampedArr (mut i32) (i32.const 0))
- (table 1 1 anyfunc)
- (elem (i32.const 0) $~lib/internal/typedarray/TypedArray<f64,f64>#sort|trampoline~anonymous|0)
+ (global $std/typedarray/i8a (mut i32) (i32.const 0))
+ (global $std/typedarray/i32a (mut i32) (i32.const 0))
+ (global $std/typedarray/clamped (mut i32) (i32.const 0))
+ (global $std/typedarray/f64a (mut i32) (i32.const 0))
+ (global $~lib/internal/dtoa/_hi (mut i64) (i64.const 0))
+ (global $~lib/internal/dtoa/_output (mut i64) (i64.const 0))
+ (global $~lib/internal/dtoa/_exp10 (mut i32) (i32.const 0))
+ (global $std/typedarray/sliced (mut i32) (i32.const 0))
+ (global $std/typedarray/sum (mut i32) (i32.const 0))
+ (global $std/typedarray/mapped (mut i32) (i32.const 0))
+ (global $std/typedarray/filtered (mut i32) (i32.const 0))
+ (global $std/typedarray/f32a (mut i32) (i32.const 0))
+ (global $RTTI_BASE i32 (i32.const 18000))
+ (table 10 10 anyfunc)
+ (elem (i32.const 0) $~lib/internal/typedarray/TypedArray<f64,f64>#sort|trampoline~anonymous|0 $start~anonymous|1 $start~anonymous|2 $start~anonymous|3 $start~anonymous|4 $start~anonymous|5 $start~anonymous|6 $start~anonymous|7 $start~anonymous|8 $start~anonymous|9)
  (memory $0 1)
  (data (i32.const 8) "\11\00\00\00s\00t\00d\00/\00t\00y\00p\00e\00d\00a\00r\00r\00a\00y\00.\00t\00s")
  (data (i32.const 48) "\1b\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00t\00y\00p\00e\00d\00a\00r\00r\00a\00y\00.\00t\00s")
  (data (i32.const 112) "\1c\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00a\00r\00r\00a\00y\00b\00u\00f\00f\00e\00r\00.\00t\00s")
+ (data (i32.const 192) "\04\00\00\00n\00u\00l\00l")
+ (data (i32.const 208) "\0e\00\00\00~\00l\00i\00b\00/\00s\00t\00r\00i\00n\00g\00.\00t\00s")
+ (data (i32.const 240) "\17\00\00\00~\00l\00i\00b\00/\00i\00n\00t\00e\00r\00n\00a\00l\00/\00s\00t\00r\00i\00n\00g\00.\00t\00s")
+ (data (i32.const 296) "\01\00\00\000")
+ (data (i32.const 304) "(\00\00\00\00\00\00\00\01\00\00\00\n\00\00\00d\00\00\00\e8\03\00\00\10\'\00\00\a0\86\01\00@B\0f\00\80\96\98\00\00\e1\f5\05\00\ca\9a;")
+ (data (i32.const 368) "0\01\00\00\n")
+ (data (i32.const 376) "\90\01\00\00\00\00\00\000\000\000\001\000\002\000\003\000\004\000\005\000\006\000\007\000\008\000\009\001\000\001\001\001\002\001\003\001\004\001\005\001\006\001\007\001\008\001\009\002\000\002\001\002\002\002\003\002\004\002\005\002\006\002\007\002\008\002\009\003\000\003\001\003\002\003\003\003\004\003\005\003\006\003\007\003\008\003\009\004\000\004\001\004\002\004\003\004\004\004\005\004\006\004\007\004\008\004\009\005\000\005\001\005\002\005\003\005\004\005\005\005\006\005\007\005\008\005\009\006\000\006\001\006\002\006\003\006\004\006\005\006\006\006\007\006\008\006\009\007\000\007\001\007\002\007\003\007\004\007\005\007\006\007\007\007\008\007\009\008\000\008\001\008\002\008\003\008\004\008\005\008\006\008\007\008\008\008\009\009\000\009\001\009\002\009\003\009\004\009\005\009\006\009\007\009\008\009\009")
+ (data (i32.const 888) "x\01\00\00d")
+ (data (i32.const 896) "\01\00\00\00,")
+ (data (i32.const 904) "\t\00\00\001\00,\001\00,\001\00,\001\00,\001")
+ (data (i32.const 928) "\0c\00\00\001\00,\00-\002\00,\00-\002\00,\00-\002\00,\001")
+ (data (i32.const 960) "\01\00\00\00|")
+ (data (i32.const 968) "\t\00\00\000\00|\000\00|\000\00|\007\00|\007")
+ (data (i32.const 992) "\0c\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03")
+ (data (i32.const 1024) "\e0\03\00\00\03")
+ (data (i32.const 1032) "\t\00\00\001\00,\002\00,\003\00,\007\00,\007")
+ (data (i32.const 1056) "\08\00\00\00\00\00\00\00\08\00\00\00\t")
+ (data (i32.const 1072) " \04\00\00\02")
+ (data (i32.const 1080) "\t\00\00\001\00,\002\00,\003\00,\008\00,\009")
+ (data (i32.const 1104) "\t\00\00\008\00,\009\00,\003\00,\008\00,\009")
+ (data (i32.const 1128) "\t\00\00\008\00,\008\00,\009\00,\008\00,\009")
+ (data (i32.const 1152) "\0c\00\00\00\00\00\00\00\ff\ff\ff\ff\80\00\00\00,\01")
+ (data (i32.const 1184) "\80\04\00\00\03")
+ (data (i32.const 1192) "\12\00\00\00~\00l\00i\00b\00/\00t\00y\00p\00e\00d\00a\00r\00r\00a\00y\00.\00t\00s")
+ (data (i32.const 1232) "\t\00\00\000\00,\001\002\008\00,\002\005\005")
+ (data (i32.const 1256) "\14\00\00\00\00\00\00\00\01\00\00\00\02\00\00\00\03\00\00\00\02\00\00\00\01")
+ (data (i32.const 1288) "\e8\04\00\00\05")
+ (data (i32.const 1296) "\10")
+ (data (i32.const 1310) "\e0?\00\00\00\00\00\00\f8\7f")
+ (data (i32.const 1328) "\10\05\00\00\02")
+ (data (i32.const 1336) "\03\00\00\00N\00a\00N")
+ (data (i32.const 1352) "\t\00\00\00-\00I\00n\00f\00i\00n\00i\00t\00y")
+ (data (i32.const 1376) "\08\00\00\00I\00n\00f\00i\00n\00i\00t\00y")
+ (data (i32.const 1400) "`\15\00\00\00\00\00\00\01")
+ (data (i32.const 1423) " \9a\99\99\99\99\99\99\99\99\99\99\99\99\99\99\19\15\aeG\e1z\14\aeG\e1z\14\aeG\e1z\14\de$\06\81\95C\8bl\e7\fb\a9\f1\d2Mb\10\96\d4\th\"lxz\a5,C\1c\eb\e26\1a\abCn\86\1b\f0\f9a\84\f0h\e3\88\b5\f8\14\"6X8I\f3\c7\b46\8d\ed\b5\a0\f7\c6\10j#\8d\c0\0eR\a6\87WH\af\bc\9a\f2\d7\1a\88O\d7f\a5A\b8\9f\df9\8c0\e2\8ey\15\07\a6\12\1fQ\01-\e6\b2\94\d6&\e8\0b.\11\a4\tQ\cb\81h\ae\d6\b7\ba\bd\d7\d9\df|\1b\ea:\a7\a24\ed\f1\de_\95dy\e1\7f\fd\15\bb\c8\85\e8\f6\f0\'\7f\19\11\ea-\81\99\97\11\f8\0d\d6@\be\b4\0ce\c2\81vIh\c2%\1c\93q\de3\98\90p\ea\01\9b+\a1\86\9b\84\16C\c1~)\e0\a6\f3!\9b\15V\e7\9e\af\03\12751\0f\cd\d7\85i+\bc\89\d8\97\b2\d2\1c\f9\90Z?\d7\df7!\89\96\d4FF\f5\0e\17\fasH\ccE\e6_\e7\a0\abC\d2\d1]r\12]\86\0dz<=f\a54\ac\d2\b6O\c9\83\1d\b1\9e\d7\94c\97\1eQ]#B\92\0c\a1\9c\17\c1Ky\dd\82\df~\da}O\9b\0e\n\b4\e3\12h\ac[b\d1\98d*\96\e5^\17\10 9\1eS\f0\e2\81\a7\e0\b6\eeDQ\b2\12@\b3-\18\a9&O\ceRM\92Xj\a7\8e\a8\99\c2W\13A\a4~\b0\b7{P\'\aa\d8}\da\f5\d0\f2\1e4Pe\c0_\c9\a6R\bb\13\cb\ae\c4@\c2\18\90\a6\ea\99L\d4\eb\0e\c9\0f<\f26\9a\ce\13\80\n\11\c3\adSy\b1A\19`P\be\f6\b0\1fg\08t\02\8b\dc-\c1gG\b3\a6\fe^Z\19R\a0)5o\b0$4\86\9f\c2\eb\feKH\14\db\19\ee\90\f2Y\1d\90\9e\7fh\89e\d69\10_)\b0\b4\1d\c3\fbL\972\a7\a8\d5#\f6\19\b2\baY]\b15\96=\ac[\1f\baw\e9\c4\14(b\e1}\'^\ab\97VIL\fb\92\87\9d\10\0d\9dh\c9\d8\c9\ab\f2\f0\0ez\f8\b7\a5\95\1a>\17\ba:z\a1\bc[Zr.-\93\84D\15\cbE\fb.\c8\1a\ca\af\ae\8e\8b\8aB\9d\03\11E\t\92\b1\a6\f7\dc\b2J\e4x\aa\9d\fb8\1b\04\a1A\c1\eb\92}\f5n\83-U\b1/\c7\15\03\b4gg\89ud\c4X\9cWw\'&l\11\d2\ec\a5\d8\db\88mm\f4\c6%\f2\0b=\e0\1b\db#\ebF\16\07\be\8a\c38\1e(\a3\fdL\16I\b6U\d2\11l\fen\9c`KSO1\d7\11\0e\8a\ef\b6O\13\97\b1`gE\85\18\82\8b\1c\a5\a1\bf\f8r\0f\ac\'\1a\b9j7\ad\01\d6\16\1eN\99`\c2rV\b9\e1`U,$\ceD\12\95\16\c2\cd\03\1eW\f55\ce\bb\13m\e3:\1d\ab\ab\01\0b\03\18\ac*+\d8/v\8aOb\17V\894o\02\e0\bc\bbU\13\f3\c4n\0c\b5\12\89\a8\ed\b1\d0\cc\c7\92\ef\1e\b8\d4Jz\ee\1d\07\baW\8e@\n\d3\db\f2K\93\10o\fb\f1\17\06\c8\dfq\00\d5\a8|\f5o\0f\daX\fc\'\13\d6\0cf\e93\bb\a7\fa\bbL\b2)\8e`\a6\1e\11\d7\84\87)\fcR\95\c9\a3\8eT\0b\1a\85\18\0e\ac\d0\d2\ba\c9\a8\aa\07\83\d8vo\ae\9d\13\e3\ac\1a\1e^\dc\da\dd\a5\d1\c0W\b2\b0b\1fO\8aHKK\b0H~QA\9a\ac\8e\c0\1b\19\d9\a1\d3\d5\d5Ym\cb\da\cd\e1V\a53\16\14{\81\dcw\11{W<\e2\d7\e7\ab\ea\c2\11\10*\cf`Y\82^\f2\c66&\a6\ac\aa\04\b6\19\bb\a5\80Gh\18\f5k\c5Q\ebVU\9d\91\14\96\84\00\06\edy*#\d1\a7\"\df\dd}t\10V\074\a3\e1\8f\dd\d1\81\0c\d11\96\fcS\1aEl\f6\e8\1as\e4\a74=\a7\f4D\fd\0f\15\9eV\f8S\e2(\1dS]\97R]j\97\d9\10bW\8d\b9\03\dba\eb.\f2P\95\10\bf\f5\1a\e8E\a4\c7\cfHN\bcX[\da\dd\a6e\91\15 k\83l\d9\d3qc\ad\e2\e1\17\1f\1eA\11\cd\11\9f\ad(\86\1c\9fH\04\03\f3dc\9b\1b\0b\db\18\beSk\b0\e5\06\9d5\8f\1d\e9\15\16\a2\15G\cb\0f\89\f3\eakJ\91r\e4 \ab\117\bcqxL\db\b8DF\aa\1b\84m\01E\1c_c\c1\c6\d6\15\c7\03\05UI\03\be\9a\9d\16\19\e9\cdkE\de867w\07i\fe\ae\17\12\c1A\16F\a2c\c1VXXr\0e\97\b1\f2\1c\ceg\ab\d1\81\1c\01\dfy\13\f5q\12\8e(\17\a5\ecUA\ce\164\7fa\dc\90\c1\0e\d8\86\12nGV5}$ e\02\c7\e7h\e4\8c\a4\1d%9x\f70\1d\80\ea\01l\b9 \1d\d7\b6\17\84\fa,\f9\f3\b0\99\bb4#aM\17\ac\f8\129\f7G(SN\\_T8h\15\f2\acZ\1e.,\d3\b9u\0b}\7fC`SD[\8aH\18X#\dc\c7\f7\d50\99\cf\19\a96|;m\13&\d2\f9r\8c\89\b4\8e\b2\8f\0e\f1\f9+\15\1f\b8A.\8f\a3\07*r(\a6\0b\f4\c7\bc\dd\18\fa\9a\be\a5O9\bb\c1\86\1e\d6\\\06\97\e4\13\f6\f70\t\19\c2^\9c\d70\f0\fa\d6$\d4\1f\f8_Z\07\14h\e5Iy\8d&/\df\83v\19`\e6\e1\05\10 Qn\c7\nR\bf\e5\cf^\14\1a\85\81\d1\0c\80\da\f1\05o\0e\99\84\d9K\10\f5\d4h\82\14\00\c4O\d6\e4\e3\f4\a0\f5\12\1a+w\ed\01\aa\99i\d9\11\b7\1c\f7\b3\f7\db\14\bc\c5\8a\01\88\14\ee\adt\92\b0\c5\\\f9\af\10,\t\deh\a6\ed|IT\ea\80o\94(\b3\1a$\d4\e4S\b8W\ca:\10U\9a\bfv \\\15\83v\1dC`y;bs\aa\ae\ff^\80\16\11\9e\bd\c8\d1f\f5+\9d\b8\10\b12\cb3W\1b\7fdmAR\c4\bc}`\0d\f4\8e\a2\\\df\15\cc\b6\8ag\dbi\fd\ca\e6=\c3\d8N}\7f\11\df\8awr\c5\0f/\ab\d7/\05\8e\e4.\ff\1b\80\d5\92[\04s\f2\88\ac\8cj>\1d\bfe\16fDBI\d0(\f5\d3V=U\98J\ff\ea\11\a3\a0\03BMA\88\b9W\95\bb\f3\102\ab\1c\e9\e6\02h\d7\cd9ayw\fc\c2@[\ef\16TR\02 yqa\e7-\f9\c9h\cd\15Y\12\86P\9d\99\8e\b5h\a5|[vt\15V[\1d\d2\a6J\e1>\91 Q\fd\15\c5\f6\ddD|\17\0e\1f\a2\1a\ff@M\a7\caD7\92\b1\d0\c9\12J\cbi\f7d\ce\ae\0b\11nXPO\b4\0f\1e;<\ee\c5P\d8\8b<\a7\f1ys?\90\0c\18\c9\c9\f17\day\t\ca\85\f4\c7\c22@=\13\dbB\e9\bf\f6\c2\a8\a9o\ba\0c\9e\b7f\c8\1e\e3\9b\ba\cc+\cfS!&\95p~,R\a0\18\82I\95p\89r\a9\1a\b8\dd&e\f0t\b3\13\9du\88\1a\0f\84u\f7\8c/>\08\e7\87\85\1f\17^\a0{r6\91_\n&\98\06\ec\9f7\19\df\e4\19\96[\f8@\19\d5\84F\05\f0\7f,\14L\eaG\ab\af\c6\00\e1\107\05\d1\8c\99#\10G\dd?EL\a4g\ce\e7$\d5\b4G\8f\d2\19\06\b1\cc\9d\d6\e9R\d8\1f\b7\dd\c3\9fr\a8\148\'\nKE\ee\dby\19,~i\19\c2\86\10Y\d8\a9\11\a2\e3_)\8fF0\0f\8f6q\1az\13\bb\a7\81\1c\b3\ba\a5k\f3\d8\d8^\'\15/\a9\95\ec\9a\e3(bQ\89\8f\ad\e0K\ec\10\17u\ef\e0\f78\0e\9d\e8\0eL\af\9a\ac\13\1by*Y\1a\93-\d8\b0Sr\d6%\e2V\a9\15.UGH\0f\bey\8d\dc\c1\de\b7\81ET\11|\bb\0b\da~\96\8f\15\94\9c\97\8c\cf\08\ba\1b\97/\d6\14\ff\11\a6wv\b0\df\d6rm.\16y\8c\deC\ff\a7Q\f9\91\f3\b2x\f5\bd\be\11\8e\ad\fd\d2\fe?\1c\c2\1c\ec\b7Z\"cd\1c\d8\8adB23\b0\01\17\f0_\15\b5\b5\b6\16F\a2\83\9b\8e\c2Y\01\acY\e6\dd\90\c4+\12\a3\039_\17\04\f6\ce\ac\c2\a3\fc\1a\d4\12\1d\83\9c-L\aci^r\bd\9b\1c\caHCB\17\9c\e3\8a\d6\89T\18\f5\fd\e2\16\08\07i\9b\12\c6\05\ab\bd\0fT\8d\ee/k\f1\0c\d8t\c5\1d\05k\"\ferv\d7\be\8c\"\c1pF*\d1\17\04\bcN\cb(\c5\12\ff\d6Ng\8dk\bb\0d\13\a0\f9}xt;Q\cb$~\d8{\12_|\1eMa\fe\f9)\c9\0d\t\b71\ad\fcA\7fc\18\n\81\cb\94!\d4\d7\a0\c5\'$\ca4\cc\82\13w\cexT\cf\b9\bfgo\0cmC!\ad7\1f\f9q-\dd\a5\94\cc\1fYp\8a\cfMW\f9\18\c7\f4\bd}Q\dd\d6\7fz\f3\a1?>\ac\fa\13\0b\ee/\c9\e8.\be\ff\c3\b8\9c2\fdy\f7\1f\d6$\f3\a0 \bf1f6\fa\16\c2\fd\c7\92\19x\1d\\\1a\1a\cc\'\b8^\fb\ab\01\cblu\14`\e4|{\ae\tS\93\18\c9\bcg\a2\f0]\10\99\a0\94\c5\b0B\eb\1e\f4t\94?j\e7/\1a\e1\e6v\04\'\02\89\e5\\*\dd2\88\1f\f3\14\e7\eb+\9d\85\ce\a0\b7\b0\ee\b0(\a0\7f\c2\10\d8\df\dfaoJ\01Y\b4JNt3\cc\d0\1a\adL\e6\e7%\d5\cd\e0)\a2>\90\8f\d6s\15\f1\d6Q\86QwqM\ee\b4\cb\d9rx)\11\e8W\e9\d6\e8\be\e8{\b0T\ac\8f\84\8du\1b \13!\dfS2\ba\fcY\dd\89\0cj\a4\f7\15\80B\e7\18C(\c8c\aeJnp\ee\e9\92\11fj\d8\'8\0d\0d\06\17\11J\1a\17C\1e\1c\eb!\ad\ec,\a4=k\12tn{\12\9c~\16VNW\bd\f0\1c\fe\88\db\\X\fcA\e3\fe\11#J%b\b4\94\96A_a\8d`6\05\cb\1c\e9\d4\1d\e8)\aa\abg\7f\e7=M\f8\d0\08\17\87\dd\17 \bb!V\b92\b9d\d7\f9sm\12\a5\95\8cf+i#\c2\ea\c1:\f2\c2\ec{\1d\1d\de\d6\1e\89\ba\82\ce\bb4b[\02W\96\17\18\18\dfK\07b5\a5\fc\f6\b4\e2\01\ac\de\12Y\f3dy\d8\9c\88;\94\f1\8776\131\1e\e1\f5\83\c7FJm\fc\dcZ\06\c6\91B\'\18\1a+\03\06\9fnW0\17\af\9e\d1\a7\9bR\13\90\de\d1<\cb}%\1a%\181\1c\a6\92\ea\1e@\e5\a70<\fe\1dH\b7yZ\e3\84\a8\bb\18\00Q\86\c0\c91K\d3\c5\c7\ae\82\9dS\c9\13\cd\b4\a3\cdB\e9\11R\t\a6\17\d1\c8\85\a8\1f\a4\90\1c>\02!\dbt\07\b8\df@:\9eS\19P\0dJ\cb\01\b4\15\f7\05`\19g\fb\e4B\14\a7\n\08\t\9b)\de\f87\b3zR\fc\835\10\d7\dd\0c\a8\91B0\8eY\b8*\b7\939\ef\19\13K\n \0e\02\8d>\e1\f9\ee\f8Ba\bf\14\0f<\08\80>\9b=e\e7\c7X\fa\9b\1a\99\10\e4,\0d\00d\f8\c8n\a5\0c\8e\90\f9\90\8e\1a\ea#\a4\99\e9\f9\d3\8b\b7\a3q@a\da>\15\bb\1cP\e1\ba\94\a9<\f9\82\f4\99\1a\15\ff\10+a\b3\9b\c4\bau\c7\8e\d1 \c3]\bb1\1b\89\1a)\16j\95\c4\d2\0b\0e\e7h\b1b\c1\15\a1{\ba\11\88w\d0\dbo>\1f\87\'\82g\11\9b\92]\1c@\bf\80,\e6c\98>?\d0\d8\1bIu\e4I3\cc3\bdQ\b6Fe\ff\0cG\16\d4]Pn\8f\d6\8f\ca\a7^\05Q\ccp\d2\11S\c9\b3\e3KW\19D\d9\fdnN\ad\e7\83\1c\a9:\f6\82\tyG\03\e1\97%\a5\8a\ec\cf\16\ba\fb\c4h\d4`l\cf\80y\84\ean\f0?\12*\f9\07\0e\874z\e5\9a\f5\d3\10K\1a3\1d\"\949\0bl\90.Q\e2*C\da\08\15\\\17\b5\a9\c7\d5\bc\a6\8b\da\81U\cf\e1\d3\10\b0\12\87\0f\d9\".q\df\90\9cU\e5\02S\81\e6\1dl\0c\14O\8bZL\da\16\de\1d\cf\a8\9a\eb\17\8a\a3\a9\a5\a2{\a3\aex~\b1\a5 \e2\"\13\a9\05\a9\a2j_\d2}\'\97\b5\a2\9a6\9e\1eT\d1 \82\88\7f\db\97\1f\ac\f7N\15\92~\18w\a7\80\ce\06f|yL#\c6\d8\ddt\98\13\f1\0b\01\e4\np-\8f\adk\a3\'\96TZ\1fZ\d6\00P\a2Y$\0c\be\ef\b5\1fx\10\15\19\15E\9a\d9\81\14\1dp\fe\f2\f7\b2\f9\d9\10\14wj{\14\9bC\17\c0\fe[\c6(.{\0d\10\f2C\92\ed\c4\05\f2\cc\ca,\n\0e}+\af\19\c2\9c\0e\be\d07[\no\bd\a1q\ca\"\8c\14\ce\e3>\cbs\f9H\08\8c\97\b4\'\d5\1bp\10\b0\9fdx\ec[\0e\da\ac%T\0cU\f9L\1a\c0\7fP`\f0\af>{\bd\b7\a9\d6\10a\n\153f@\80\f3\bf\cb\95\97,\ee\des\1a\d5\10Rp\cdfRf\ac\efXG\b0d\b9\90\ee\1a\dbY\a4\b8\0e\85#&Gl\f3\b6\fa\a6\8b\15I\ae\b6\93\d8\d0\82\1el#)_\95\85<\11u\b0\8a\1f\f4\1a\9e\fd\ac8\a8\fe\ee\08\94\1b\f7Y\d5\b2)\af\b1\97\bd\93\86\98%\07\10\16,{w\f5\ba%\8e\ac\97\dc\9e\13\1el\a6\11\13\c5X\"+\t}z\bf-\fe\b8\c9y=\1cvj\adN\ef\a0\fda\ccW\cb`\a1\94\97\16\c5\ee\bd\0bY\1a\fe\e7\t\13\t\e7M\dd\12\12:\b1\fcE[]c\a6\dc\84\0e\d8\af\fb\ea\1c\c8\8d0k\afJ\1c\85\b0\d0>\13\f3b\"\17\d4\d7&\bc\f2n\e3\d0&\da\cbu\c2\e8\81\12\86\8c\a4\c6\ea\17\9f\b4\d7)F\89\9d\a7\9c\1dkpP\05\ef\df\18*F\ee\04\a1\17\86\b0\17\89\f3\d9\9d%\b3\e0Tk\8b\9dMy\9e\f3\12tR\f6bo\eb\cd\87xE/|(\97R\1e]\a8^\82\bf\"\0b\d3\c6j\bf\c9\86\12B\18\e4\b9Kh\cc\1b<\0f\9f\88\ff:\d2\0eh\13m)y@z,`\18\98\da\98\91\83\e4\0c\1f$!\943\c8V\b3F\13\e2\13\0e6\1d\d7\18\b6MC)\a0x\8f8\dc\b4\dc\a4\91J\df\13\8a\afk\a8f\'\7fZ`!a\a1\82\aa\cb\1f\a2\bf\ef\b9\eb\852\15M\b4M\b4\9b\bbo\19N\99\8ca\89\d1\8e\aa=\90\a4\f6\e2bY\14\0c\e1\d6\1a\a1\a7\d8\ee\ca\d9\b6+O\82G\10E\9b$^\9br\'~\11\f6\8a\df\b1\03\0c\1a\04I\1d\18I\f5\85\fe\0d\f8;\19[i\d6\14\d0\a0J\13\d4]\9e\cb\a4\f9/\14|\87\ab\10M\01\11RS\c9c\df:\\\e6\b9\f9\0b\ac\1aqg\dat\0f\a1\1c\19/\b0\1e\fb\faoV\15\c1RH*\d9\80\b0\ad%\c0K//\f3\11\114Q\0d\aa\8e4\e7\15\t\cd\12\b2~\ebO\1b\c4\0dq\ee>]\1f\abm\n\0f(2\89\d9\15\9d\a4\8d\8be\17\19\bcW\08\0c (\d4z\11\94:|\12<\f2\f4,Y\0d\e0\cc\d9\b9\f7\1bC\95\96\db\fc\f4\c3\f0\e0=\b3p\e1\c7_\16\03\11\12\16\97]6Z\1a\cb\f5&\819\e6\11\04\e8\1c\f0$\fcV\90\90\de\"\0b5\8f\a3\1c\d0\ec\e3\8c\1d0\df\d9\a6K\82\a2]?\e9\16\da#\83=\b1Y\7f\e1\eb\a2\ceN\b12T\12\\98/\b5\c2\cbhy\d1}\e4N\84S\1d\e3-`\bf]5\d6S\94\a7dPr\03v\17\1c\8b\e6e\b1*x\a9v\ec\b6\a6\8e\cf\c4\12\faD\d7o\b5\aa&\0f\f1\13\8b\d7}\b2\07\1ebj\df\bf*\"R?\'Co\acd(\06\18N\88\7f\99\88N\dbe\1f\9c\f2\89P 8\13J\0d\cc(tJ\c5oe\93\ea\0f\b43\c0\1e;\a4\t\87\f6\a1jY\84\0f\"s\f6\c2\99\18\96\b6\07l\f8\e7\ee\ad6\d9\b4\f5\915\ae\13VW\0c\e0\f3?~I$\f5\ba\"\83\"}\1fE\ac\d6L\f6\ffd\d4\e9\90\95\e8h\e80\19\d1\89x=\f8\ff\83C\eesD\edS \'\14t\a1\93\97\c6\cc\9c\cf\f1\8f\03\f1\0fM\1f\10R\02\b9%\a4Ga\7f\1c\b3\05\e8\7f\ae\cb\19\0f5\c7\b7\e9\d2M\cc\16\\\d1\ec\ff\f1\a2\14\d9\90\d2_!\0f\0b=\12\b0\da#3[\82\10\c1\e7P\99hK\abaP\b3*\06\85+j\1ag\b9@\14\ba\a2\"N@\\Ukj\bc!\15S\94\00\dd\94\e8N\0b\cdID\bc\ee\c9\e7\10Q\ed\00\c8\87\da\17\12H\a9\d3\c6Jv\0c\1b\da\bd\00\a0lHF\dbl\87\dck\d5\91\a3\15\afd\cdL\bd\06\05I\8a\9f\e3\ef\dd\a7O\11\b1:\e2z\c8\n\08\a8C\ff8\e6/\a6\b2\1b\f4.\e8\fb9\a29Si\ff\93\1e\f3\84(\16]\f2\ec/\fb\b4\c7u\87\ff\0f\b2\f5\03\ba\11.\eaG\e6\91!\d9\"?\ff\7f\b6\"\d3\\\1c\f2T\06\85A\81z\b5e\ff\ff\91\e8\a8\b0\16\f5C87\01\01b\c4\b723\db\86\ed&\12\ee\9f\f3\f1\01h6:Y\84\eb\91\a4\15\0b\1d\8b\19\f6\'\9b\b9^\fb\e0i\bctP\11<\17\d6z^\86\e2\fa~/\e7\87c]@t\96\12V\91\fd\d6\d0\f7\97\e5q\d98b\cd\86\bd\1d\ab\da\cax\0d\93y\84\c1z-\e8=\d2\ca\17V\15o-qBa\d0\9a\c8\8a\861\a8\08\13\"\"\18\afNjhM\91\da\aa=O@t\1e\e8\b4y\f2>\88S\a4\da\ae\88d?\00]\18\87]a(\ffl\dc\e9\aeXmP\cc\99}\13\a4\95h\0de\ae`\a9\e4\8dH\1az\\/\1f\83D\ed=\b7\be\b3\ba\83q\a0\aea\b0\f2\186\9d\8a1,2\f6.6\c1\e6\be\e7Y\f5\13\f0aw\82\13\1d\bd\e4\89\9b\d7\97?\f6\ee\1fZN,5\a9}\ca\83\a1\af\df\df2\f8\8b\19\15\a5V\f7 \fe\a1\9c\e7\f2\b2L\c2\f9o\14\aa\1d\12\f9\b31\1bJ\b9(\8fp\9b\94Y\10\dd\95\b6\c1\ec\b5^C\f5\0d\e5\80\c5\ed(\1aJ\de^\01W^\e55\c4\a4\1dg\04\8b\ed\14\d5\b1\18\01\ac~\b7\c4i\1d~R\d0\08\be\10\"\b6Z\9by\97%\a1\0f/0\b7\b3\a7\c9\1a\81^\15Ia\ac\b7M\d9X\f3\f8\c2\1fn\15\9bKD\07\81#\c6\d7\ad\e0\f5\935\e6$\11+\ac\d3>\9b\05=YI4V\86\"=n\1b\bc\89\dc\cb\15\9e\fd\e0m\c3\11\05\82\ca\f1\15c\a1\e3o\11\18\fe\b3$iA7\9b;\8e\11\d1\9b\d2\7f\b5Yc\86\07u5%\c5\c5\16\1c\0e\e3\0e3\91\14\e9\d1\d2\90\f7P7\9ex\16\0b\1c?\8f\dav\batu\0d\c6@,\18\fa\11x\c61\e5\90$\f7\ed\bbH\a3g\e0Y\c3\1c-\05[\b7@\1d,\8b\c9\d3\b5\1fM\ae\02\17$\04|_\cd}Vo\d4\0f+\e6p\8bh\12\06m\c6\98H\c9\f0~\ed\b2\11=N\12t\1d\9f\bd\9e\e0\06\a1\c0\98W\c2\a7\fd\a4\0e\90\17\e6\caKM\d2\80\00Gy\9b\ec\caP\a5\d9\12\a2DyH\1d\ce\00\d8\8e\c5\adD\81\08)\1e\82\d0-m\17\d83\13?\d1W\9d\9a\d3 \18\ce\a6$$yF\f6\a8e\a7\acJ\15vM\13}\a4:\a0\8e=\bdto\a5zw\88V\e2\1edP\95\e6>1d]\8c\b7\fb\c5\06\12\b5\18\b7\a6\aa\eb\cb\8d\b6Jp,\96\d1k\0e\c4\13W\a4\aa\12\13\16$\11\1aG\f0\e8\12\17\a0\1f\df\e9\ee\0e\dcD\83\da\14l\f3SB\dfL\19\80!\bf\d8|\9d\02\e2C#)Ch\7f=\143\812z\fd}hN6\1cT\cf\b921\10\b8\ceP\90\95\c9@J\bd\c6\b9K)Q\e8\19\c6\0b\a7\a6w\d43\081\d2\c7o\87\da\b9\14k\t\ec\1e\c6v)\a0\8d\0e\d3\bf\d2\ae\94\10\df\db\acd\a3WB\00I\17\b8\ff\1d~\87\1a\19\e3#\ea\b5\df\01\cd\a0\12`\99\b119\15\ae\b5\1c\88\91L\cepMu\e6\ad\'\8e\fa\10\e2U\94\a6\b5\ad\e3\1a\af\bbpI\0c}*\1b\e8wC\85\c4W\e9{\f2b\8d\07=\97\bb\15\87\f95\04jy\87\c9\8e\b5\n\06d\dfb\11q\c2\bc\06\10\8f\a5u\e4\88w\d6le\d1\1b\'5\cak\a6\a5\b7\f7\e9\d3\92\ab\f0\1dA\16\1f\c4\a1\bc\1e\1e\c6_\ee\0f\0fV\8d\b1\cd\11e\d3\02adc\a3\ff\16\b3\b1\89HO|\1cQ\dc\9bMP\1c\e92\df(\8e\d4\06\d9\c9\16\0e}Iqs\e3 \8f\b2 \d8v\05\14;\12|.\0f\82\85\05\9b~\ea\cdY\f1;S+\1d\ca\be\a5\01\9e7\af\cb\ee\d7G\f4/\dcU\17\a1\98\844K\f9X\t\bf\acl\c3\8c\16\ab\12")
+ (data (i32.const 9592) "x\05\00\00\ac\02")
+ (data (i32.const 9600) "`\14")
+ (data (i32.const 9623) "\10")
+ (data (i32.const 9639) "\14")
+ (data (i32.const 9655) "\19")
+ (data (i32.const 9670) "@\1f")
+ (data (i32.const 9686) "\88\13")
+ (data (i32.const 9702) "j\18")
+ (data (i32.const 9717) "\80\84\1e")
+ (data (i32.const 9733) "\d0\12\13")
+ (data (i32.const 9749) "\84\d7\17")
+ (data (i32.const 9765) "e\cd\1d")
+ (data (i32.const 9780) " _\a0\12")
+ (data (i32.const 9796) "\e8vH\17")
+ (data (i32.const 9812) "\a2\94\1a\1d")
+ (data (i32.const 9827) "@\e5\9c0\12")
+ (data (i32.const 9843) "\90\1e\c4\bc\16")
+ (data (i32.const 9859) "4&\f5k\1c")
+ (data (i32.const 9874) "\80\e07y\c3\11")
+ (data (i32.const 9890) "\a0\d8\85W4\16")
+ (data (i32.const 9906) "\c8Ngm\c1\1b")
+ (data (i32.const 9922) "=\91`\e4X\11")
+ (data (i32.const 9937) "@\8c\b5x\1d\af\15")
+ (data (i32.const 9953) "P\ef\e2\d6\e4\1a\1b")
+ (data (i32.const 9969) "\92\d5M\06\cf\f0\10")
+ (data (i32.const 9984) "\80\f6J\e1\c7\02-\15")
+ (data (i32.const 10000) " \b4\9d\d9yCx\1a")
+ (data (i32.const 10016) "\94\90\02(,*\8b\10")
+ (data (i32.const 10032) "\b94\032\b7\f4\ad\14\00\00\00\00\00\00\00@\e7\01\84\fe\e4q\d9\19\00\00\00\00\00\00\00\880\81\12\1f/\e7\'\10\00\00\00\00\00\00\00\aa|!\d7\e6\fa\e01\14\00\00\00\00\00\00\80\d4\db\e9\8c\a09Y>\19\00\00\00\00\00\00\a0\c9R$\b0\08\88\ef\8d\1f\00\00\00\00\00\00\04\be\b3\16n\05\b5\b5\b8\13\00\00\00\00\00\00\85\ad`\9c\c9F\"\e3\a6\18\00\00\00\00\00@\e6\d8x\03|\d8\ea\9b\d0\1e\00\00\00\00\00\e8\8f\87+\82M\c7raB\13\00\00\00\00\00\e2si\b6\e2 y\cf\f9\12\18\00\00\00\00\80\da\d0\03d\1biWC\b8\17\1e\00\00\00\00\90\88b\82\1e\b1\a1\16*\d3\ce\12\00\00\00\00\b4*\fb\"f\1dJ\9c\f4\87\82\17\00\00\00\00a\f5\b9\ab\bf\a4\\\c3\f1)c\1d\00\00\00\a0\\9T\cb\f7\e6\19\1a7\fa]\12\00\00\00\c8\b3G)\be\b5`\a0\e0\c4x\f5\16\00\00\00\ba\a0\99\b3-\e3x\c8\18\f6\d6\b2\1c\00\00@t\04@\90\fc\8dK}\cfY\c6\ef\11\00\00P\91\05P\b4{q\9e\\C\f0\b7k\16\00\00\a4\f5\06d\a1\da\0d\c63T\ec\a5\06\1c\00\80\86Y\84\de\a4\a8\c8[\a0\b4\b3\'\84\11\00 \e8o%\16\ce\d2\bar\c8\a1\a01\e5\15\00(\e2\cb\ae\9b\81\87i\8f:\ca\08~^\1b\00Ym?M\01\b1\f4\a1\99d~\c5\0e\1b\11@\afH\8f\a0A\ddq\n\c0\fd\ddv\d2a\15\10\db\1a\b3\08\92T\0e\0d0}\95\14G\ba\1a\ea\c8\f0oE\db\f4(\08>n\ddll\b4\10$\fb\ec\cb\16\1223\8a\cd\c9\14\88\87\e1\14\ed9\e8~\9c\96\fe\bf\ec@\fc\19j\e9\19\1a4$Q\cf!\1e\ff\f7\93\a8=P\e21P\10Am%C\aa\e5\fe\f5\b8\12M\e4Z>d\14\92\c8\ee\d3\14\9f~3gW`\9d\f1M}\19\b6z\ea\08\daF^\00Am\b8\04n\a1\dc\1f\b2\8c\92EH\ec:\a0HD\f3\c2\e4\e4\e9\13\de/\f7VZ\a7I\c8Z\15\b0\f3\1d^\e4\18\d6\fb\b4\ec0\11\\z\b1\1a\9cp\a5u\1d\1fe\1d\f1\93\be\8ay\ec\ae\90af\87ir\13\bfd\ed8n\ed\97\a7\da\f4\f9?\e9\03O\18\ef\bd(\c7\c9\e8}Q\11r\f8\8f\e3\c4b\1e\b5vy\1c~\b1\ee\d2JG\fb9\0e\bb\fd\12b\d4\97\a3\dd]\aa\87\1d\19z\c8\d1)\bd\17{\c9}\0cU\f5\94\e9d\9f\98:Ft\ac\1d\ed\9d\ce\'U\19\fd\11\9fc\9f\e4\ab\c8\8b\12hE\c2q\aa_|\d6\86<\c7\dd\d6\ba.\17\c2\d62\0e\95w\1b\8c\a8\0b9\95\8ci\fa\1c9\c6\df(\bd*\91WI\a7C\dd\f7\81\1c\12\c8\b7\17sluu\ad\1b\91\94\d4u\a2\a3\16\ba\a5\dd\8f\c7\d2\d2\98b\b5\b9I\13\8bL\1c\94\87\ea\b9\bc\c3\83\9f]\11\14\0e\ec\d6\af\11y)e\e8\ab\b4d\07\b5\15\99\11\a7\cc\1b\16\d7s~\e2\d6\e1=I\"[\ff\d5\d0\bf\a2\1bf\08\8fM&\ad\c6m\f5\98\bf\85\e2\b7E\11\80\ca\f2\e0oX8\c92\7f/\'\db%\97\15 }/\d9\8bn\86{\ff^\fb\f0Q\ef\fc\1a4\ae\bdg\17\054\ad_\1b\9d6\93\15\de\10\c1\19\adA]\06\81\987bD\04\f8\9a\15\152`\18\92\f4G\a1~\c5zU\05\b6\01[\1a\1f<O\db\f8\cc$o\bblU\c3\11\e1x\10\'\0b#\127\00\eeJ\ea\c7*4V\19\97\14\f0\cd\ab\d6D\80\a9\dd\e4y5\c1\ab\df\bc\19\b6`+\06+\f0\89\n/l\c1X\cb\0b\16\10\e48\b6\c75l,\cd:\c7\f1.\be\8e\1b\14\1d\c7\a39C\87w\80\t9\ae\bamr\"\19\e4\b8\0c\08\14i\95\e0K\c7Y)\t\0fk\1f\8e\f3\07\85\aca]l\8f\1c\d8\b9e\e9\a2\13r\f0I\a6\17\batG\b3#N(\bf\a3\8b\18\8fl\dc\8f\9d\e8Q\19\a0\aca\f2\ae\8c\ae\1e\d9\c3\e9yb1\d3\0f\e4\0b}W\ed\17-\13\cf4d\18\bb\fd\c7\13\ddN\\\ad\e8]\f8\17\03B}\de)\fd\b9X\94b\b3\d8bu\f6\1dBI\0e+:>t\b7\9c\1dp\c7]\t\ba\12\92\db\d1\b5\c8MQ\e5\03%L9\b5\8bh\17wRF\e3:\a1\a5\deD.\9f\87\a2\aeB\1d\8a\f3\0b\ce\c4\84\'\0b\eb|\c3\94%\adI\12m\f0\8e\01\f6e\f1\cd%\\\f4\f9n\18\dc\16\88\ac\f2\81s\bfmA/sq\b8\8a\1e\93\1c\d5\ab71\a8\97\e4\88\fd\e7F\b3\16\f3\db\11\ca\96\85=\92\bd\1d\eb\fc\a1\18`\dc\efR\16}\fc\e6\cc\f6,\e5%|\ca\1ex\d3\ab\e7\1b\ce]\10@\1a<\af\97\8d>\13+d\cbp\11Bu\14\d0 \0b\9b\fd0\0e\d85=\fe\cc\15\92\92\19\04\e9\cd\01=\bd\11N\83\cc=@\1b\9b\fb\8f\a2\b1 !F\16\cb\10\d2\9f&\08\11\82\fa3\0b\deh\a9\d7\db\fd\94\c6G0J\15#\f9\00\8e\15\c3\93\cdR=:\b8Y\bc\9c\1a\b6\9b\c0x\edY|\c0Sf$\13\b8\f5\a1\10\a3\c2\f0\d6hp\9b\b0\e8\7f\ed\17&s\ca\14L\f3\ac\0c\83L\c2\dc\e2\df\e8\9d\ef\0f\fd\19\0f\18\ec\e7\d1o\f9\c9\ed\8b\b1\c2\f5)>\10\13\1e\e7a\c6\cbw<\e9\ee]3s\b4M\14\98\e5`\fa\b7\be\95\8b\a3j5\00\90!a\19\fe\1e\f9\f8e.{nL\c5B\00\f4i\b9\1f_\b3\9b\bb\ff\fc\0c\c5O\bb)\808\e2\d3\137\a0\82\aa?<P\b6#*4\a0\c6\da\c8\18DH#\95OK\e4\a3\ac4AHx\11\fb\1e+\0d6\bd\11\afn\e6\eb\c0(-\eb\ea\\\13u\90\83,\d6Z\n\e0&\f1r\f8\a5%4\18\93t\a4\b7\8b\f1\0c\98p\ad\8fv\0f/A\1e\dc\c8\c6R\f7\16\08_f\cc\19\aai\bd\e8\12\13{x\'\b5\1c\ca\f6\7f?\a0\14\c4\ec\a2\17\d7\99Vq\e2\a3|\f4_O\c8\19\f5\a7\8b\1d& \d6\86m\e6\cd\f8\9b1\1d0\f9Hw\120\a8\8b\e8\08`\01\f7\02~$|7\1b\15\17<\92\ae\"\0b\b8\c1\b4\83\9d-[\05b\da\1ce\1b\ad\f5\06\13\f9Pr\82\fcXC}\08\12?b\18\b3\c8W7\e5\0e\a3;/\94\9c\8a\16\cfz\de\df\ba-\85\9e\d2\8b\n;\b9C-\1c\c1\0c\eb\cb\94<\13\a3c\97\e6\c4SJ\9c\11\f1\cf\e5\fe\b9\0b\d8\8b<= \b6\e8\\\03\16\eeC\9f~\a8\0e\ce\ae\8bL\a8\e3\"4\84\1bu\8a#O)\c9@M\d7/I\ce\95\a02\11\12m\ec\a2s\fb\90 \cd{\dbA\bbH\7f\15V\88\a7\8bP:\b5h\c0ZR\12\ea\1a\df\1a6\b5HWrDqA\b8xsK\d2p\cb\10\83\e2\1a\ed\8e\95\cdQ\e6VP\de\06M\fe\14$\9ba\a8\f2\fa@\e6\9fl\e4\95H\e0=\1a\f7\00=\a9\d7\9c\e8\ef\e3\c3\ae]-\acf\104A\8c\93\0d\c4\e2\eb\dct\1a\b58W\80\14\81Qo\f8\10u\db&\14\12a\e2\06m\a0\19\f1\92E\9b*)I\98L\ab|M$D\04\10\ad\f7\16Bus[\be\1f\d6\db`-U\05\14\98\b5\9c\92RP\f2\ad\a7\cb\12\b9x\aa\06\19\ff\e2C7g\e4n\99\91~W\e7\16UH\1f\dfm\8a\82\c0N\e5\ff\1a\af\96P.5\8d\13W\t-\a3p\a2\de\bf\e1Z\bc\e4y\82p\18\adK\f8\cb\0cK\d6/\9aq\eb]\18\a3\8c\1eL/{\ff\e7\ee\e5]\00\'\b3:\ef\e5\17\13\1f\fbY\ff\a1j_u\c0\f0_\tk\df\dd\17\e7y0\7fJE\b7\92\f0\ec\b7\cbEW\d5\1d0L~\8fN\8b\b2[\16\f4R\9f\8bV\a5\12<\df]3\".\9f\f2\1b\b1\'\87.\acN\17\0bW5\c0\aa\f9F\efb\9d\f1(:W\"\1dgV!\b8\n\\\8c\d5]\02\97Y\84v5\12\01\ac)f\0ds\efJ\f5\c2\fco%\d4\c2\16\01\17\b4\bf\d0O\ab\9d\b2\f3\fb\cb.\89s\1c`\8e\d0w\e2\11\8b\a2Ox}?\bd5\c8\11\f9\b1\c4\15[\d6-\8bc\d6\\\8f,C:\16w\de5\db\f1K\f9m\fc\0b4\b3\f7\d3\c8\1b\n\ab\01)w\cf\bb\c4}\87\00\d0z\84]\11\cd\15B\f3T\c3\ea5]\a9\00\84\99\e5\b4\15@\9b\120*te\83\b4\d3\00\e5\ff\1e\"\1b\08\a1\0b^\9ah\1f\d2P\84 \ef_S\f5\10J\89\8e\f5\c0B\a7\06e\a5\e8\ea7\a82\15\9d+\f22q\13QH\be\ce\a2\e5ER\7f\1aB[\d7\bf&\ac2\ed6\c1\85\afk\93\8f\10\122\cdo0W\7f\a8\841g\9bFx\b3\14\97~\c0\8b\fc,\9f\d2\e5\fd@BXV\e0\19\1eOX\d7\1d|\a3\a3\af\9eh)\f75,\10\e6b.M%[\8c\8c[\c6\c2\f3tC7\14\9f\fby\a0\eeq\afo\f2w\b30R\14E\19\87z\98HjN\9b\0b\efU\e0\bcfY\96\1f\94L_m\02\11Ag\b55\0c6\e0\f7\bd\13\ba\1f\b7\08CU\11\c1\"C\8fC\d8u\ad\18\a8\e7\e4\ca\93\aaUq\eb\13sTN\d3\d8\1e\c9\10\cf^\9c\8a\d5&s\ec\c7\f4\10\84G\13\fb\d4\82vC\ed\8a\f0\8f\e7\f91\15e\19\18:\8a#T\94\a8\ad\ecsax~Z\be\1f\1ed6\96\b4\\\89\ecs\e8<\0b\8f\f8\d6\d3\12\fd\c3\bb\e1\b3\ab\e7\90\"\0c\ce\b2\b6\cc\88\17\fd\b4*\da\a0\96!5+\8f\81_\e4\ffj\1d\1e\b1Z\88$\fe4\01{\f9\b0\bb\ee\dfb\12e]q\aa\ad=\82\c1\d97\9dj\ea\97\fb\16\bf\b4\0d\15\19\cd\e21\d0\85D\05\e5}\ba\1c\f7\90(\ad/\c0-\1f\a2\d3J#\af\8e\f4\115\b5r\98;0\f9\a6\8a\88\1d\ecZ\b2q\16\82b\8f~J|\b7P\ad\ea$\a7\f1\1e\0e\1c\91\9d\19\8f\ae\adrR\ac\12w\08W\d3\88\11\f6\04\e02\1aY\0fgW\d7\94\ca,\08\eb\153\06\98\bf`/\d3@-\0d:\fd7\cae\1b\e0\03\bfw\9c\fd\83H<HD\feb\9e\1f\11\d8\c4\ae\95\03\fd\a4ZKZ\d5\bd\fb\85g\15\0ev\1a{D<N1\de\b0J\adzg\c1\1a\c9\89\f0\cc\aa\e5\d0\de\8a\aeN\ac\ac\e0\b8\10;\ac,\80\15\1f\85\96-Zb\d7\d7\18\e7\14J\d77\e0\daf&\fc\b8\f0:\cd\0d\df \1a\8e\e6\"\ccH\00\98\9ds\d6D\a0h\8bT\102\a0+\ffZ\00\fe\84\10\0cV\c8B\aei\14>\88\f6\beq\80=\a6\14\8fkz\d3\19\84\19N*\b4.\8e\e0\cc\cf\d9r\06YH \e5\1fp\9a0\ddX\0c\e0!\c8\07\a47-4\ef\13\0d\c1|\14o\0fX*\ba\t\8d\858\01\eb\18P\f1\9b\d9J\13\ee\b4(L\f0\a6\86\c1%\1f\d2v\01\c8\0e\cc\14q\99/V(\f4\98w\13\86\d4\01z\12\ffY\cd\7f\bbk21\7fU\18\a8I\82\18\d7~\b0\c0_\aa\06\7f\fd\dej\1e\tnQoFOn\d8{*do^\cb\02\13\8b\c9%\0b\18\e3\89\ce\1a5=\0b6~\c3\17\ee;\ef\0d\de[,\82a\82\0c\8e\c3]\b4\1du\85\b5\c8j\b9[\f1|\d1\c78\9a\ba\90\12\d2\e6\e2z\c5\a7\b2-\dc\c5\f9\c6@\e94\17\86\a0\9b\d9\b6Q\1f9S7\b8\f8\90#\02\1dTD\01H\12\93\b3\03\94\"s\9b:V!\12i\95\01\da\d6w\a0\049\ebOB\c9\ab\a9\16\c3\fa\81\90\cc\95\c8E\07\e6\e3\92\bb\16T\1c\ba<Q\da\9f]\9d\8b\c4o\ce;5\8e\b4\11\e8\8b\e5\d0\07\b5\84\ae\b5\0b\c2\8a\c2\b1!\16\e3\ee\1e\c5I\e2%\1a\a3\8er-3\1e\aa\1bMU3\1bn\adW\f0%\99g\fc\dfRJ\11\a1*\00\a2\c9\98mlo\7f\81\fb\97\e7\9c\15I5\80\n\fc\fe\88GK\dfa\fa}!\04\1bN!\90\86]\9f\b5\0c\8f+}\bc\ee\94\e2\10\a1)4\e84\07\e3\cfrv\9ck*:\1b\15\n4A\"\02\c9\db\83\0f\94\83\06\b5\08b\1a\86\c0hU\a1]i\b2\89<\12$qE}\10\a7\f0\c2\aa\t\b5\03\1f\ac\cb\16m\cd\96\9c\14\d1\acs\15L\a2\c4&\97~\\\c8\80\bc\c3\19\03Lh\8do\e5:x\1e\cf9}\d0U\1a\10\03_\c2p\cb\9eI\16\e6B\88\9cD\eb \14\c4\f6\f2L~\06\dc\9b\9fS\aa\c3\15&)\19v\b4/\e0\1d\08\d3\82\87\e8\944\9bos\1f\c9\d0\1d\ac\12\e5\c3\b1T\11\dd\00\c1%\a8\13\fcD%WW\de4\de\a9U\14A1/\92\18;\96\ee,\ed\15\c2U\14kY\91\fd\ba\b6\1e\e5\1d\15<\b4M\99\b5\ec\e2\d7z\de42\13^e\1aK!\a1\ff\e2\a7\db\8d\19\16\c2\fe\17\b6\fe\e0\9di\89\bf\db\91R\f1\9f\9br\fe\1d1\9f\ac\02\e2\b5W)\9b\d3\f6C\a1\07\bf\12\fe\c6W\83Z\a3\ad\f3\81\88\f4\94\89\c9n\17\bd\b8-$1\0c\99p\a2\aa1\fa\eb{J\1dv\93\9c\b6\9e\a7_\86\a5\n_|s\8dN\12T\b8Cd\86\91\f7\e7N\cdv[\d00\e2\16i\a6T\fd\e7u\f5\a1\a2\80Tr\04\bd\9a\1c\01\e8T\fe\b0i9\a5e\d0t\c7\"\b6\e0\11\02\"\ea=\1d\c4\87\0e\7f\04Ry\ab\e3X\16\82\aad\8d$\b5)\d2\9e\85\a6W\96\1c\ef\1b\91\ea^\d86\11ZC\83\13\c8\f6\ddqu\116\a5v\8e\84\950\14d\18ztU\ce\d2\15\83N\14\b2\e5\ba<\19}\9e\98\d1\ea\81G\1b\12\b1L\8f\cf\f4\c5/\0ec\ff\c22\b1\0c\11V\dd\1fs\03r\b7\bb\d1;\bfs\7f\ddO\15\ac\d4\e7O\84N\a5*\c6\n\afP\df\d4\a3\1a\eb\e4\f0\b1\12Q\a7\da\bbfm\92\0be\a6\10&\1em^W%Q\d1j\c0\08wN\fe\cf\14\b0e\086\adn\a5\85\85\f0\ca\14\e2\fd\03\1a\8e?\c5A,e\87sS\d6\feL\ad~B\10q\8f6Rw>iP\e8\8b>\a0X\1eS\14N3\c4&\15\8e\83d\e2.N\c8\ee\e5g\19\"@up\9aq\a4\fd\9a\baazj\df\c1\1f\15HI\86\00\c7\86\de\a0\14}\8c\a2+\d9\13\1a\9a\db\a7\c0x(\16\c9Y\9c/\8bv\cf\18\a1\80\d2\d1\f0\96\b2[;p\83\fb-T\03\1fd\90#\83V\9eO\19%&2\bd\9c\14b\13~t\ec#\ec\85\a3_\ae\af~\ec\c3\99:\18\9d\91\e7,gg\8c\f7\99[\9e\e74@I\1e\02\bb\10|\a0\c0\b7:@\f9\c2\10!\c8\ed\12\c3\e9\14\9b\c8\b0eI\90\b7\f3T):\a9\173$\da\c1\fa\1c\bf[t\a50\aa\b3\88\93\1d\a0V(\b9\1crW\b9hg^Jp5|\12Hlr\e7\a3N\ad\e7B\01\f6\\\ccB\1b\17Z\07O\e1L\a2\98\a1\93\813t\7f\13\e2\1c\98d\d1\0cpe\ffD\fc0\a0\a8/L\0d\12\be\bd\05\10\cc>?V;=\c8\92;\9f\90\16.-\07\14\7f\0e\cf+\8aLzw\n\c74\1c=|\84l\0fia[\d6o\ac\8af\fc\a0\11L\9b\a5GS\c39\f2\cb\8bW-\80;\t\16\1f\02\8f\19(4\c8\ee\ben\ad8`\8a\8b\1bSa\f9\0f\99 =U7el#|67\11\a8\b9\f7S\bfh\8c*\85~G,\1b\04\85\15\12\a8\f5(\ef\82/u&^Y\f7!E\e6\1a\0b\89\99y\d5\b1=\t\d8\da\97:5\eb\cf\10N\eb\ff\d7J\1e\8d\0b\8e\d1=\89\02\e6\03\15\"\e6\ff\8d\ddep\8e\f1E\8d+\83\dfD\1a\d5\ef\bfx\aa?\06\f9\b6K8\fb\b1\0bk\10\ca\eb\ef\16\95\cfG\b7\a4^\06z\9e\ce\85\14\bd\e6\ab\\z\c3\19\e5M\f6\87\18FB\a7\196p\eby,\1a0\af\f0\f9T\cfk\89\08\10CLf\98\b7 \fc\dal8*\c3\c6\ab\n\14T\df\7f~\e5(\bb\11\88\c6\f4s\b8V\0d\19*\d7\1f\de\1e\f3)\16*\f8\f1\90f\acP\1fz\e6\d3J\f37\daM\1a;\97\1a\c0k\92\13\19\e0\88\1d\f0\c5P\e1\e0\t=!\b0\06w\18\1f\18\eb$l\f7\a4\19YL\8c)\\\c8\94\1e\13\ef\12\97\a3\1a\07\b0\b7\af\f7\999\fd\1c\13\d8\aa\d7|L\e1\08\9c\a5\9bu\00\88<\e4\17\8e\95\0d\9c\9f\19\0b\03\8f\02\93\00\aaK\dd\1dy}\88\c1\03\f0\e6a\99\e1[@JO\aa\12\d7\9c\ea\b1\04\ac`\ba\ff\d9r\d0\1c\e3T\17\0dDe\de\05\d7\f8\a8\7f\90\8f\04\e4\1b*\1d\88J\ff\aac\86\9b\c9O\ba\d9\82nQ:\12*\1d\bf\95\fcg\02\bc\e3(\90#\ca\e5\c8\16t\e4.\bb\fb\01\03\ab\1c3t\ac<\1f{\1c\c9N\fdT=\e1\e1\ea\f1\9f\c8\eb\85\f3\cc\11{\a2<\aa\8cY\9ae\ee\c7\bafg0@\16\1a\cb\cb\d4\ef\ef\00\ff\e9yi@\81<\d0\1b\f0^\ff\e4\f5\95`?2\ecA\c8\d0%b\11\ac6?^s\bb8\cf>gR\faD\af\ba\15W\04\cf5P\ea\06\83\0e\01\e78\16[)\1b\b6b\a1!rR\e4\11\a9`\90\e3\ed\d8\f9\10d\bb\t\aa\0eg]V\d3xt\\)O8\15=*\8cT\d2\c0\f4+\08\97\91\b3\f3b\86\1af\9a\d7t\83\f8x\1be\fe:P\d8\fd\93\10\00\81\0dR\a46Wb\fe\bdIdN\fd\b8\14@\e1\90fM\04\ed\fa}-\\\fd\a1<\e7\19\c8\8c\1a`\b0\"\d4\bcn\9cY>\e5\850\10\fa/!x\\+\tl\8a\03\f0\8d^\a7<\14\f8{)\963v\0b\07m\04l16\d1K\19\f6\da\b3{\c0S\ceH\88\05\c7\bd\83\c5\9e\1f\dahPMX\f4\80-uc\9cVr;\c3\13\10\83\a4`n1\e1xR|C\ecN\n\b4\18")
+ (data (i32.const 17792) "\80%\00\00\8c\02")
+ (data (i32.const 17800) "\07\00\00\000\00.\005\00,\00N\00a\00N")
+ (data (i32.const 17824) "\05\00\00\002\00,\003\00,\002")
+ (data (i32.const 17840) "\01\00\00\003")
+ (data (i32.const 17848) "\05\00\00\002\00,\003\00,\005")
+ (data (i32.const 17864) "\01")
+ (data (i32.const 17872) "\02")
+ (data (i32.const 17880) "\03")
+ (data (i32.const 17888) "\04")
+ (data (i32.const 17896) "\05")
+ (data (i32.const 17904) "\06")
+ (data (i32.const 17912) "\t\00\00\002\00,\004\00,\006\00,\004\00,\002")
+ (data (i32.const 17936) "\07")
+ (data (i32.const 17944) "\08")
+ (data (i32.const 17952) "\0c")
+ (data (i32.const 17962) "\80?\00\00\00@\00\00\80@")
+ (data (i32.const 17984) " F\00\00\03")
+ (data (i32.const 17992) "\t")
+ (data (i32.const 18000) "\1d\00\00\00\01")
+ (data (i32.const 18016) "\02")
+ (data (i32.const 18028) "\03\00\00\00\00\00\00\00\04\00\00\00\04\00\00\00\00\00\00\00\04\00\00\00\05\00\00\00\04\00\00\00\04\00\00\00\06\00\00\00\00\00\00\00\04\00\00\00\07\00\00\00\06\00\00\00\04\00\00\00\08\00\00\00\06\00\00\00\04\00\00\00\t\00\00\00\00\00\00\00\04\00\00\00\n\00\00\00\t\00\00\00\04\00\00\00\0b\00\00\00\00\00\00\00\04\00\00\00\0c\00\00\00\0b\00\00\00\04\00\00\00\0d\00\00\00\00\00\00\00\04\00\00\00\0e\00\00\00\0d\00\00\00\04\00\00\00\0f\00\00\00\00\00\00\00\04\00\00\00\10\00\00\00\0f\00\00\00\04\00\00\00\11\00\00\00\00\00\00\00\04\00\00\00\12\00\00\00\11\00\00\00\04\00\00\00\13\00\00\00\00\00\00\00\04\00\00\00\14\00\00\00\13\00\00\00\04\00\00\00\15\00\00\00\00\00\00\00\04\00\00\00\16\00\00\00\15\00\00\00\04\00\00\00\17\00\00\00\00\00\00\00\04\00\00\00\18\00\00\00\17\00\00\00\04\00\00\00\19")
+ (data (i32.const 18304) "\1a")
+ (data (i32.const 18316) "\1b")
+ (data (i32.const 18328) "\1c")
+ (data (i32.const 18340) "\1d")
+ (export "RTTI_BASE" (global $RTTI_BASE))
  (export "memory" (memory $0))
  (export "table" (table $0))
  (start $start)
@@ -156,31 +276,32 @@
   )
   (get_local $1)
  )
- (func $~lib/internal/memory/memset (; 4 ;) (; has Stack IR ;) (type $FUNCSIG$vii) (param $0 i32) (param $1 i32)
-  (local $2 i32)
+ (func $~lib/internal/memory/memset (; 4 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i64)
   (if
    (i32.eqz
-    (get_local $1)
+    (get_local $2)
    )
    (return)
   )
   (i32.store8
    (get_local $0)
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store8
    (i32.sub
     (i32.add
      (get_local $0)
-     (get_local $1)
+     (get_local $2)
     )
     (i32.const 1)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (if
    (i32.le_u
-    (get_local $1)
+    (get_local $2)
     (i32.const 2)
    )
    (return)
@@ -190,37 +311,37 @@
     (get_local $0)
     (i32.const 1)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store8
    (i32.add
     (get_local $0)
     (i32.const 2)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store8
    (i32.sub
-    (tee_local $2
+    (tee_local $3
      (i32.add
       (get_local $0)
-      (get_local $1)
+      (get_local $2)
      )
     )
     (i32.const 2)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store8
    (i32.sub
-    (get_local $2)
+    (get_local $3)
     (i32.const 3)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (if
    (i32.le_u
-    (get_local $1)
+    (get_local $2)
     (i32.const 6)
    )
    (return)
@@ -230,63 +351,74 @@
     (get_local $0)
     (i32.const 3)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store8
    (i32.sub
     (i32.add
      (get_local $0)
-     (get_local $1)
+     (get_local $2)
     )
     (i32.const 4)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (if
    (i32.le_u
-    (get_local $1)
+    (get_local $2)
     (i32.const 8)
    )
    (return)
   )
+  (set_local $2
+   (i32.sub
+    (get_local $2)
+    (tee_local $3
+     (i32.and
+      (i32.sub
+       (i32.const 0)
+       (get_local $0)
+      )
+      (i32.const 3)
+     )
+    )
+   )
+  )
   (i32.store
    (tee_local $0
     (i32.add
      (get_local $0)
-     (tee_local $2
-      (i32.and
-       (i32.sub
-        (i32.const 0)
-        (get_local $0)
-       )
-       (i32.const 3)
-      )
+     (get_local $3)
+    )
+   )
+   (tee_local $1
+    (i32.mul
+     (i32.and
+      (get_local $1)
+      (i32.const 255)
      )
+     (i32.const 16843009)
     )
    )
-   (i32.const 0)
   )
   (i32.store
    (i32.sub
     (i32.add
      (get_local $0)
-     (tee_local $1
+     (tee_local $2
       (i32.and
-       (i32.sub
-        (get_local $1)
-        (get_local $2)
-       )
+       (get_local $2)
        (i32.const -4)
       )
      )
     )
     (i32.const 4)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (if
    (i32.le_u
-    (get_local $1)
+    (get_local $2)
     (i32.const 8)
    )
    (return)
@@ -296,37 +428,37 @@
     (get_local $0)
     (i32.const 4)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
    (i32.add
     (get_local $0)
     (i32.const 8)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
    (i32.sub
-    (tee_local $2
+    (tee_local $3
      (i32.add
       (get_local $0)
-      (get_local $1)
+      (get_local $2)
      )
     )
     (i32.const 12)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
    (i32.sub
-    (get_local $2)
+    (get_local $3)
     (i32.const 8)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (if
    (i32.le_u
-    (get_local $1)
+    (get_local $2)
     (i32.const 24)
    )
    (return)
@@ -336,66 +468,66 @@
     (get_local $0)
     (i32.const 12)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
    (i32.add
     (get_local $0)
     (i32.const 16)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
    (i32.add
     (get_local $0)
     (i32.const 20)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
    (i32.add
     (get_local $0)
     (i32.const 24)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
    (i32.sub
-    (tee_local $2
+    (tee_local $3
      (i32.add
       (get_local $0)
-      (get_local $1)
+      (get_local $2)
      )
     )
     (i32.const 28)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
    (i32.sub
-    (get_local $2)
+    (get_local $3)
     (i32.const 24)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
    (i32.sub
-    (get_local $2)
+    (get_local $3)
     (i32.const 20)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
    (i32.sub
-    (get_local $2)
+    (get_local $3)
     (i32.const 16)
    )
-   (i32.const 0)
+   (get_local $1)
   )
   (set_local $0
    (i32.add
     (get_local $0)
-    (tee_local $2
+    (tee_local $3
      (i32.add
       (i32.and
        (get_local $0)
@@ -406,47 +538,60 @@
     )
    )
   )
-  (set_local $1
+  (set_local $2
    (i32.sub
-    (get_local $1)
     (get_local $2)
+    (get_local $3)
+   )
+  )
+  (set_local $4
+   (i64.or
+    (tee_local $4
+     (i64.extend_u/i32
+      (get_local $1)
+     )
+    )
+    (i64.shl
+     (get_local $4)
+     (i64.const 32)
+    )
    )
   )
   (loop $continue|0
    (if
     (i32.ge_u
-     (get_local $1)
+     (get_local $2)
      (i32.const 32)
     )
     (block
      (i64.store
       (get_local $0)
-      (i64.const 0)
+      (get_local $4)
      )
      (i64.store
       (i32.add
        (get_local $0)
        (i32.const 8)
       )
-      (i64.const 0)
+      (get_local $4)
      )
      (i64.store
       (i32.add
        (get_local $0)
        (i32.const 16)
       )
-      (i64.const 0)
+      (get_local $4)
      )
      (i64.store
       (i32.add
        (get_local $0)
        (i32.const 24)
       )
-      (i64.const 0)
+      (get_local $4)
      )
-     (set_local $1
+     (set_local $2
       (i32.sub
-       (get_local $1)
+       (get_local $2)
        (i32.const 32)
       )
      )
@@ -463,7 +608,7 @@
  )
  (func $~lib/memory/memory.allocate (; 5 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
   (call $~lib/allocator/arena/__memory_allocate
-   (i32.const 12)
+   (i32.const 20)
   )
  )
  (func $~lib/internal/typedarray/TypedArray<i8,i32>#constructor (; 6 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
@@ -478,7 +623,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 24)
+     (i32.const 33)
      (i32.const 34)
     )
     (unreachable)
@@ -493,12 +638,23 @@
     )
     (i32.const 8)
    )
+   (i32.const 0)
    (get_local $0)
   )
   (i32.store
-   (tee_local $1
-    (call $~lib/memory/memory.allocate)
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
    )
+   (i32.const 4)
+  )
+  (i32.store
+   (get_local $1)
    (i32.const 0)
   )
   (i32.store offset=4
@@ -523,19 +679,19 @@
   )
   (get_local $1)
  )
- (func $~lib/internal/typedarray/TypedArray<i16,i32>#constructor (; 7 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+ (func $~lib/internal/typedarray/TypedArray<u8,u32>#constructor (; 7 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
   (local $1 i32)
   (local $2 i32)
   (if
    (i32.gt_u
     (get_local $0)
-    (i32.const 536870908)
+    (i32.const 1073741816)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 24)
+     (i32.const 33)
      (i32.const 34)
     )
     (unreachable)
@@ -545,22 +701,28 @@
    (i32.add
     (tee_local $2
      (call $~lib/internal/arraybuffer/allocateUnsafe
-      (tee_local $0
-       (i32.shl
-        (get_local $0)
-        (i32.const 1)
-       )
-      )
+      (get_local $0)
      )
     )
     (i32.const 8)
    )
+   (i32.const 0)
    (get_local $0)
   )
   (i32.store
-   (tee_local $1
-    (call $~lib/memory/memory.allocate)
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
    )
+   (i32.const 6)
+  )
+  (i32.store
+   (get_local $1)
    (i32.const 0)
   )
   (i32.store offset=4
@@ -585,19 +747,19 @@
   )
   (get_local $1)
  )
- (func $~lib/internal/typedarray/TypedArray<i32,i32>#constructor (; 8 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+ (func $~lib/internal/typedarray/TypedArray<i16,i32>#constructor (; 8 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
   (local $1 i32)
   (local $2 i32)
   (if
    (i32.gt_u
     (get_local $0)
-    (i32.const 268435454)
+    (i32.const 536870908)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 24)
+     (i32.const 33)
      (i32.const 34)
     )
     (unreachable)
@@ -607,59 +769,70 @@
    (i32.add
     (tee_local $2
      (call $~lib/internal/arraybuffer/allocateUnsafe
-      (tee_local $0
+      (tee_local $1
        (i32.shl
         (get_local $0)
-        (i32.const 2)
+        (i32.const 1)
        )
       )
      )
     )
     (i32.const 8)
    )
-   (get_local $0)
+   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
-   (tee_local $1
-    (call $~lib/memory/memory.allocate)
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
    )
+   (i32.const 9)
+  )
+  (i32.store
+   (get_local $0)
    (i32.const 0)
   )
   (i32.store offset=4
-   (get_local $1)
+   (get_local $0)
    (i32.const 0)
   )
   (i32.store offset=8
-   (get_local $1)
+   (get_local $0)
    (i32.const 0)
   )
   (i32.store
-   (get_local $1)
+   (get_local $0)
    (get_local $2)
   )
   (i32.store offset=4
-   (get_local $1)
+   (get_local $0)
    (i32.const 0)
   )
   (i32.store offset=8
-   (get_local $1)
    (get_local $0)
+   (get_local $1)
   )
-  (get_local $1)
+  (get_local $0)
  )
- (func $~lib/internal/typedarray/TypedArray<i64,i64>#constructor (; 9 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+ (func $~lib/internal/typedarray/TypedArray<u16,u32>#constructor (; 9 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
   (local $1 i32)
   (local $2 i32)
   (if
    (i32.gt_u
     (get_local $0)
-    (i32.const 134217727)
+    (i32.const 536870908)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 24)
+     (i32.const 33)
      (i32.const 34)
     )
     (unreachable)
@@ -669,286 +842,501 @@
    (i32.add
     (tee_local $2
      (call $~lib/internal/arraybuffer/allocateUnsafe
-      (tee_local $0
+      (tee_local $1
        (i32.shl
         (get_local $0)
-        (i32.const 3)
+        (i32.const 1)
        )
       )
      )
     )
     (i32.const 8)
    )
-   (get_local $0)
+   (i32.const 0)
+   (get_local $1)
   )
   (i32.store
-   (tee_local $1
-    (call $~lib/memory/memory.allocate)
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
    )
+   (i32.const 11)
+  )
+  (i32.store
+   (get_local $0)
    (i32.const 0)
   )
   (i32.store offset=4
-   (get_local $1)
+   (get_local $0)
    (i32.const 0)
   )
   (i32.store offset=8
-   (get_local $1)
+   (get_local $0)
    (i32.const 0)
   )
   (i32.store
-   (get_local $1)
+   (get_local $0)
    (get_local $2)
   )
   (i32.store offset=4
-   (get_local $1)
+   (get_local $0)
    (i32.const 0)
   )
   (i32.store offset=8
-   (get_local $1)
    (get_local $0)
+   (get_local $1)
   )
-  (get_local $1)
+  (get_local $0)
  )
- (func $std/typedarray/testInstantiate (; 10 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+ (func $~lib/internal/typedarray/TypedArray<i32,i32>#constructor (; 10 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
   (local $1 i32)
+  (local $2 i32)
   (if
-   (i32.load offset=4
-    (tee_local $1
-     (call $~lib/internal/typedarray/TypedArray<i8,i32>#constructor
-      (get_local $0)
-     )
-    )
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 8)
-     (i32.const 18)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
-  )
-  (if
-   (i32.ne
-    (i32.load offset=8
-     (get_local $1)
-    )
+   (i32.gt_u
     (get_local $0)
+    (i32.const 268435454)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 8)
-     (i32.const 19)
-     (i32.const 2)
+     (i32.const 48)
+     (i32.const 33)
+     (i32.const 34)
     )
     (unreachable)
    )
   )
-  (if
-   (i32.ne
-    (i32.sub
-     (i32.load offset=8
-      (get_local $1)
-     )
-     (i32.load offset=4
-      (get_local $1)
+  (call $~lib/internal/memory/memset
+   (i32.add
+    (tee_local $2
+     (call $~lib/internal/arraybuffer/allocateUnsafe
+      (tee_local $1
+       (i32.shl
+        (get_local $0)
+        (i32.const 2)
+       )
+      )
      )
     )
-    (get_local $0)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 8)
-     (i32.const 20)
-     (i32.const 2)
-    )
-    (unreachable)
+    (i32.const 8)
    )
+   (i32.const 0)
+   (get_local $1)
   )
-  (if
-   (i32.load offset=4
-    (tee_local $1
-     (call $~lib/internal/typedarray/TypedArray<i8,i32>#constructor
-      (get_local $0)
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
      )
     )
+    (i32.const 4)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 8)
-     (i32.const 23)
-     (i32.const 2)
-    )
-    (unreachable)
-   )
+   (i32.const 13)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $1)
   )
+  (get_local $0)
+ )
+ (func $~lib/internal/typedarray/TypedArray<u32,u32>#constructor (; 11 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
   (if
-   (i32.ne
-    (i32.load offset=8
-     (get_local $1)
-    )
+   (i32.gt_u
     (get_local $0)
+    (i32.const 268435454)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 8)
-     (i32.const 24)
-     (i32.const 2)
+     (i32.const 48)
+     (i32.const 33)
+     (i32.const 34)
     )
     (unreachable)
    )
   )
-  (if
-   (i32.ne
-    (i32.sub
-     (i32.load offset=8
-      (get_local $1)
+  (call $~lib/internal/memory/memset
+   (i32.add
+    (tee_local $2
+     (call $~lib/internal/arraybuffer/allocateUnsafe
+      (tee_local $1
+       (i32.shl
+        (get_local $0)
+        (i32.const 2)
+       )
+      )
      )
-     (i32.load offset=4
-      (get_local $1)
+    )
+    (i32.const 8)
+   )
+   (i32.const 0)
+   (get_local $1)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
      )
     )
+    (i32.const 4)
+   )
+   (i32.const 15)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $1)
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/typedarray/TypedArray<i64,i64>#constructor (; 12 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (if
+   (i32.gt_u
     (get_local $0)
+    (i32.const 134217727)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 8)
-     (i32.const 25)
-     (i32.const 2)
+     (i32.const 48)
+     (i32.const 33)
+     (i32.const 34)
     )
     (unreachable)
    )
   )
-  (if
-   (i32.load offset=4
-    (tee_local $1
-     (call $~lib/internal/typedarray/TypedArray<i8,i32>#constructor
-      (get_local $0)
+  (call $~lib/internal/memory/memset
+   (i32.add
+    (tee_local $2
+     (call $~lib/internal/arraybuffer/allocateUnsafe
+      (tee_local $1
+       (i32.shl
+        (get_local $0)
+        (i32.const 3)
+       )
+      )
      )
     )
+    (i32.const 8)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 8)
-     (i32.const 28)
-     (i32.const 2)
+   (i32.const 0)
+   (get_local $1)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
     )
-    (unreachable)
+    (i32.const 4)
    )
+   (i32.const 17)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $1)
   )
+  (get_local $0)
+ )
+ (func $~lib/internal/typedarray/TypedArray<u64,u64>#constructor (; 13 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
   (if
-   (i32.ne
-    (i32.load offset=8
-     (get_local $1)
-    )
+   (i32.gt_u
     (get_local $0)
+    (i32.const 134217727)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 8)
-     (i32.const 29)
-     (i32.const 2)
+     (i32.const 48)
+     (i32.const 33)
+     (i32.const 34)
     )
     (unreachable)
    )
   )
-  (if
-   (i32.ne
-    (i32.sub
-     (i32.load offset=8
-      (get_local $1)
-     )
-     (i32.load offset=4
-      (get_local $1)
-     )
-    )
-    (get_local $0)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 8)
-     (i32.const 30)
-     (i32.const 2)
+  (call $~lib/internal/memory/memset
+   (i32.add
+    (tee_local $2
+     (call $~lib/internal/arraybuffer/allocateUnsafe
+      (tee_local $1
+       (i32.shl
+        (get_local $0)
+        (i32.const 3)
+       )
+      )
+     )
     )
-    (unreachable)
+    (i32.const 8)
    )
+   (i32.const 0)
+   (get_local $1)
   )
-  (if
-   (i32.load offset=4
-    (tee_local $1
-     (call $~lib/internal/typedarray/TypedArray<i16,i32>#constructor
-      (get_local $0)
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
      )
     )
+    (i32.const 4)
+   )
+   (i32.const 19)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $1)
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/typedarray/TypedArray<f32,f32>#constructor (; 14 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 268435454)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 8)
+     (i32.const 48)
      (i32.const 33)
-     (i32.const 2)
+     (i32.const 34)
     )
     (unreachable)
    )
   )
-  (if
-   (i32.ne
-    (i32.load offset=8
-     (get_local $1)
+  (call $~lib/internal/memory/memset
+   (i32.add
+    (tee_local $2
+     (call $~lib/internal/arraybuffer/allocateUnsafe
+      (tee_local $1
+       (i32.shl
+        (get_local $0)
+        (i32.const 2)
+       )
+      )
+     )
     )
-    (i32.shl
-     (get_local $0)
-     (i32.const 1)
+    (i32.const 8)
+   )
+   (i32.const 0)
+   (get_local $1)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
     )
+    (i32.const 4)
+   )
+   (i32.const 21)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $1)
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/typedarray/TypedArray<f64,f64>#constructor (; 15 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 134217727)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 8)
+     (i32.const 48)
+     (i32.const 33)
      (i32.const 34)
-     (i32.const 2)
     )
     (unreachable)
    )
   )
-  (if
-   (i32.ne
-    (i32.shr_s
-     (i32.sub
-      (i32.load offset=8
-       (get_local $1)
-      )
-      (i32.load offset=4
-       (get_local $1)
+  (call $~lib/internal/memory/memset
+   (i32.add
+    (tee_local $2
+     (call $~lib/internal/arraybuffer/allocateUnsafe
+      (tee_local $1
+       (i32.shl
+        (get_local $0)
+        (i32.const 3)
+       )
       )
      )
-     (i32.const 1)
     )
-    (get_local $0)
+    (i32.const 8)
    )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 8)
-     (i32.const 35)
-     (i32.const 2)
+   (i32.const 0)
+   (get_local $1)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
     )
-    (unreachable)
+    (i32.const 4)
    )
+   (i32.const 23)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $0)
+   (get_local $2)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (i32.store offset=8
+   (get_local $0)
+   (get_local $1)
   )
+  (get_local $0)
+ )
+ (func $std/typedarray/testInstantiate (; 16 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+  (local $1 i32)
   (if
    (i32.load offset=4
     (tee_local $1
-     (call $~lib/internal/typedarray/TypedArray<i16,i32>#constructor
+     (call $~lib/internal/typedarray/TypedArray<i8,i32>#constructor
       (get_local $0)
      )
     )
@@ -957,7 +1345,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 38)
+     (i32.const 18)
      (i32.const 2)
     )
     (unreachable)
@@ -968,16 +1356,13 @@
     (i32.load offset=8
      (get_local $1)
     )
-    (i32.shl
-     (get_local $0)
-     (i32.const 1)
-    )
+    (get_local $0)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 39)
+     (i32.const 19)
      (i32.const 2)
     )
     (unreachable)
@@ -985,16 +1370,13 @@
   )
   (if
    (i32.ne
-    (i32.shr_s
-     (i32.sub
-      (i32.load offset=8
-       (get_local $1)
-      )
-      (i32.load offset=4
-       (get_local $1)
-      )
+    (i32.sub
+     (i32.load offset=8
+      (get_local $1)
+     )
+     (i32.load offset=4
+      (get_local $1)
      )
-     (i32.const 1)
     )
     (get_local $0)
    )
@@ -1002,7 +1384,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 40)
+     (i32.const 20)
      (i32.const 2)
     )
     (unreachable)
@@ -1011,7 +1393,7 @@
   (if
    (i32.load offset=4
     (tee_local $1
-     (call $~lib/internal/typedarray/TypedArray<i32,i32>#constructor
+     (call $~lib/internal/typedarray/TypedArray<u8,u32>#constructor
       (get_local $0)
      )
     )
@@ -1020,7 +1402,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 43)
+     (i32.const 23)
      (i32.const 2)
     )
     (unreachable)
@@ -1031,16 +1413,13 @@
     (i32.load offset=8
      (get_local $1)
     )
-    (i32.shl
-     (get_local $0)
-     (i32.const 2)
-    )
+    (get_local $0)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 44)
+     (i32.const 24)
      (i32.const 2)
     )
     (unreachable)
@@ -1048,16 +1427,13 @@
   )
   (if
    (i32.ne
-    (i32.shr_s
-     (i32.sub
-      (i32.load offset=8
-       (get_local $1)
-      )
-      (i32.load offset=4
-       (get_local $1)
-      )
+    (i32.sub
+     (i32.load offset=8
+      (get_local $1)
+     )
+     (i32.load offset=4
+      (get_local $1)
      )
-     (i32.const 2)
     )
     (get_local $0)
    )
@@ -1065,7 +1441,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 45)
+     (i32.const 25)
      (i32.const 2)
     )
     (unreachable)
@@ -1074,7 +1450,7 @@
   (if
    (i32.load offset=4
     (tee_local $1
-     (call $~lib/internal/typedarray/TypedArray<i32,i32>#constructor
+     (call $~lib/internal/typedarray/TypedArray<u8,u32>#constructor
       (get_local $0)
      )
     )
@@ -1083,7 +1459,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 48)
+     (i32.const 28)
      (i32.const 2)
     )
     (unreachable)
@@ -1094,9 +1470,255 @@
     (i32.load offset=8
      (get_local $1)
     )
-    (i32.shl
-     (get_local $0)
-     (i32.const 2)
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 29)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.sub
+     (i32.load offset=8
+      (get_local $1)
+     )
+     (i32.load offset=4
+      (get_local $1)
+     )
+    )
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 30)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.load offset=4
+    (tee_local $1
+     (call $~lib/internal/typedarray/TypedArray<i16,i32>#constructor
+      (get_local $0)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 33)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=8
+     (get_local $1)
+    )
+    (i32.shl
+     (get_local $0)
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 34)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.shr_s
+     (i32.sub
+      (i32.load offset=8
+       (get_local $1)
+      )
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+     (i32.const 1)
+    )
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 35)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.load offset=4
+    (tee_local $1
+     (call $~lib/internal/typedarray/TypedArray<u16,u32>#constructor
+      (get_local $0)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 38)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=8
+     (get_local $1)
+    )
+    (i32.shl
+     (get_local $0)
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 39)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.shr_s
+     (i32.sub
+      (i32.load offset=8
+       (get_local $1)
+      )
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+     (i32.const 1)
+    )
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 40)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.load offset=4
+    (tee_local $1
+     (call $~lib/internal/typedarray/TypedArray<i32,i32>#constructor
+      (get_local $0)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 43)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=8
+     (get_local $1)
+    )
+    (i32.shl
+     (get_local $0)
+     (i32.const 2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 44)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.shr_s
+     (i32.sub
+      (i32.load offset=8
+       (get_local $1)
+      )
+      (i32.load offset=4
+       (get_local $1)
+      )
+     )
+     (i32.const 2)
+    )
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 45)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.load offset=4
+    (tee_local $1
+     (call $~lib/internal/typedarray/TypedArray<u32,u32>#constructor
+      (get_local $0)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 48)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=8
+     (get_local $1)
+    )
+    (i32.shl
+     (get_local $0)
+     (i32.const 2)
     )
    )
    (block
@@ -1200,7 +1822,7 @@
   (if
    (i32.load offset=4
     (tee_local $1
-     (call $~lib/internal/typedarray/TypedArray<i64,i64>#constructor
+     (call $~lib/internal/typedarray/TypedArray<u64,u64>#constructor
       (get_local $0)
      )
     )
@@ -1263,7 +1885,7 @@
   (if
    (i32.load offset=4
     (tee_local $1
-     (call $~lib/internal/typedarray/TypedArray<i32,i32>#constructor
+     (call $~lib/internal/typedarray/TypedArray<f32,f32>#constructor
       (get_local $0)
      )
     )
@@ -1326,7 +1948,7 @@
   (if
    (i32.load offset=4
     (tee_local $1
-     (call $~lib/internal/typedarray/TypedArray<i64,i64>#constructor
+     (call $~lib/internal/typedarray/TypedArray<f64,f64>#constructor
       (get_local $0)
      )
     )
@@ -1387,7 +2009,7 @@
    )
   )
  )
- (func $~lib/internal/typedarray/TypedArray<i32,i32>#__set (; 11 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+ (func $~lib/internal/typedarray/TypedArray<i32,i32>#__set (; 17 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
   (local $3 i32)
   (if
    (i32.ge_u
@@ -1410,7 +2032,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 55)
+     (i32.const 64)
      (i32.const 42)
     )
     (unreachable)
@@ -1432,7 +2054,7 @@
    (get_local $2)
   )
  )
- (func $~lib/internal/typedarray/TypedArray<i32,i32>#__get (; 12 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/internal/typedarray/TypedArray<i32,i32>#__get (; 18 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (if
    (i32.ge_u
@@ -1455,7 +2077,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 42)
+     (i32.const 51)
      (i32.const 42)
     )
     (unreachable)
@@ -1476,78 +2098,131 @@
    )
   )
  )
- (func $~lib/typedarray/Int32Array#subarray (; 13 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
-  (local $1 i32)
-  (local $2 i32)
+ (func $~lib/typedarray/Int32Array#subarray (; 19 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
   (local $3 i32)
-  (set_local $2
-   (select
-    (i32.const 1)
-    (tee_local $1
-     (i32.shr_s
-      (i32.sub
-       (i32.load offset=8
-        (get_local $0)
-       )
-       (i32.load offset=4
-        (get_local $0)
-       )
-      )
-      (i32.const 2)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $5
+   (call $~lib/internal/typedarray/TypedArray<i32,i32>#constructor
+    (i32.const 0)
+   )
+  )
+  (set_local $4
+   (i32.shr_s
+    (i32.sub
+     (i32.load offset=8
+      (get_local $0)
+     )
+     (i32.load offset=4
+      (get_local $0)
      )
     )
+    (i32.const 2)
+   )
+  )
+  (set_local $1
+   (if (result i32)
     (i32.lt_s
-     (i32.const 1)
      (get_local $1)
+     (i32.const 0)
+    )
+    (select
+     (tee_local $3
+      (i32.add
+       (get_local $4)
+       (get_local $1)
+      )
+     )
+     (i32.const 0)
+     (i32.gt_s
+      (get_local $3)
+      (i32.const 0)
+     )
+    )
+    (select
+     (tee_local $3
+      (get_local $1)
+     )
+     (get_local $4)
+     (i32.lt_s
+      (get_local $1)
+      (get_local $4)
+     )
     )
    )
   )
-  (set_local $3
-   (select
-    (tee_local $1
-     (select
-      (i32.const 2)
-      (get_local $1)
-      (i32.lt_s
-       (i32.const 2)
-       (get_local $1)
+  (set_local $2
+   (if (result i32)
+    (i32.lt_s
+     (get_local $2)
+     (i32.const 0)
+    )
+    (select
+     (tee_local $3
+      (i32.add
+       (get_local $4)
+       (get_local $2)
       )
      )
+     (get_local $1)
+     (i32.gt_s
+      (get_local $3)
+      (get_local $1)
+     )
     )
-    (get_local $2)
-    (i32.gt_s
+    (select
+     (tee_local $3
+      (select
+       (get_local $2)
+       (get_local $4)
+       (i32.lt_s
+        (get_local $2)
+        (get_local $4)
+       )
+      )
+     )
      (get_local $1)
-     (get_local $2)
+     (i32.gt_s
+      (get_local $3)
+      (get_local $1)
+     )
     )
    )
   )
-  (i32.store
-   (tee_local $1
-    (call $~lib/allocator/arena/__memory_allocate
-     (i32.const 12)
-    )
+  (set_local $3
+   (i32.load offset=4
+    (get_local $0)
    )
+  )
+  (i32.store
+   (get_local $5)
    (i32.load
     (get_local $0)
    )
   )
   (i32.store offset=4
-   (get_local $1)
-   (i32.shl
-    (get_local $2)
-    (i32.const 2)
+   (get_local $5)
+   (i32.add
+    (get_local $3)
+    (i32.shl
+     (get_local $1)
+     (i32.const 2)
+    )
    )
   )
   (i32.store offset=8
-   (get_local $1)
-   (i32.shl
+   (get_local $5)
+   (i32.add
     (get_local $3)
-    (i32.const 2)
+    (i32.shl
+     (get_local $2)
+     (i32.const 2)
+    )
    )
   )
-  (get_local $1)
+  (get_local $5)
  )
- (func $~lib/internal/typedarray/TypedArray<f64,f64>#__set (; 14 ;) (; has Stack IR ;) (type $iiFv) (param $0 i32) (param $1 i32) (param $2 f64)
+ (func $~lib/internal/typedarray/TypedArray<f64,f64>#__set (; 20 ;) (; has Stack IR ;) (type $iiFv) (param $0 i32) (param $1 i32) (param $2 f64)
   (local $3 i32)
   (if
    (i32.ge_u
@@ -1570,7 +2245,7 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 48)
-     (i32.const 55)
+     (i32.const 64)
      (i32.const 42)
     )
     (unreachable)
@@ -1592,11 +2267,17 @@
    (get_local $2)
   )
  )
- (func $~lib/typedarray/Float64Array#subarray (; 15 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+ (func $~lib/typedarray/Float64Array#subarray (; 21 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
   (local $1 i32)
   (local $2 i32)
   (local $3 i32)
+  (local $4 i32)
   (set_local $2
+   (call $~lib/internal/typedarray/TypedArray<f64,f64>#constructor
+    (i32.const 0)
+   )
+  )
+  (set_local $3
    (select
     (i32.const 2)
     (tee_local $1
@@ -1618,7 +2299,7 @@
     )
    )
   )
-  (set_local $3
+  (set_local $4
    (select
     (tee_local $1
      (select
@@ -1630,40 +2311,47 @@
       )
      )
     )
-    (get_local $2)
+    (get_local $3)
     (i32.gt_s
      (get_local $1)
-     (get_local $2)
+     (get_local $3)
     )
    )
   )
-  (i32.store
-   (tee_local $1
-    (call $~lib/allocator/arena/__memory_allocate
-     (i32.const 12)
-    )
+  (set_local $1
+   (i32.load offset=4
+    (get_local $0)
    )
+  )
+  (i32.store
+   (get_local $2)
    (i32.load
     (get_local $0)
    )
   )
   (i32.store offset=4
-   (get_local $1)
-   (i32.shl
-    (get_local $2)
-    (i32.const 3)
+   (get_local $2)
+   (i32.add
+    (get_local $1)
+    (i32.shl
+     (get_local $3)
+     (i32.const 3)
+    )
    )
   )
   (i32.store offset=8
-   (get_local $1)
-   (i32.shl
-    (get_local $3)
-    (i32.const 3)
+   (get_local $2)
+   (i32.add
+    (get_local $1)
+    (i32.shl
+     (get_local $4)
+     (i32.const 3)
+    )
    )
   )
-  (get_local $1)
+  (get_local $2)
  )
- (func $~lib/internal/array/insertionSort<f64> (; 16 ;) (; has Stack IR ;) (type $iiiiv) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32)
+ (func $~lib/internal/array/insertionSort<f64> (; 22 ;) (; has Stack IR ;) (type $iiiiv) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32)
   (local $4 i32)
   (local $5 i32)
   (local $6 f64)
@@ -1722,12 +2410,17 @@
         (set_global $~argc
          (i32.const 2)
         )
+        (set_global $~env
+         (get_local $3)
+        )
         (br_if $break|1
          (i32.ge_s
           (call_indirect (type $FFi)
            (get_local $6)
            (get_local $7)
-           (get_local $3)
+           (i32.load
+            (get_global $~env)
+           )
           )
           (i32.const 0)
          )
@@ -1787,10 +2480,10 @@
    )
   )
  )
- (func $~lib/allocator/arena/__memory_free (; 17 ;) (; has Stack IR ;) (type $FUNCSIG$v)
+ (func $~lib/allocator/arena/__memory_free (; 23 ;) (; has Stack IR ;) (type $FUNCSIG$v)
   (nop)
  )
- (func $~lib/internal/array/weakHeapSort<f64> (; 18 ;) (; has Stack IR ;) (type $iiiiv) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32)
+ (func $~lib/internal/array/weakHeapSort<f64> (; 24 ;) (; has Stack IR ;) (type $iiiiv) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32)
   (local $4 i32)
   (local $5 i32)
   (local $6 i32)
@@ -1814,6 +2507,7 @@
      )
     )
    )
+   (i32.const 0)
    (get_local $6)
   )
   (block $break|0
@@ -1912,12 +2606,17 @@
     (set_global $~argc
      (i32.const 2)
     )
+    (set_global $~env
+     (get_local $3)
+    )
     (if
      (i32.lt_s
       (call_indirect (type $FFi)
        (get_local $9)
        (get_local $7)
-       (get_local $3)
+       (i32.load
+        (get_global $~env)
+       )
       )
       (i32.const 0)
      )
@@ -2115,12 +2814,17 @@
        (set_global $~argc
         (i32.const 2)
        )
+       (set_global $~env
+        (get_local $3)
+       )
        (if
         (i32.lt_s
          (call_indirect (type $FFi)
           (get_local $7)
           (get_local $9)
-          (get_local $3)
+          (i32.load
+           (get_global $~env)
+          )
          )
          (i32.const 0)
         )
@@ -2227,7 +2931,7 @@
    (get_local $7)
   )
  )
- (func $~lib/internal/typedarray/TypedArray<f64,f64>#sort (; 19 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/internal/typedarray/TypedArray<f64,f64>#sort (; 25 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
@@ -2292,12 +2996,17 @@
     (set_global $~argc
      (i32.const 2)
     )
+    (set_global $~env
+     (get_local $1)
+    )
     (if
      (i32.lt_s
       (call_indirect (type $FFi)
        (get_local $5)
        (get_local $6)
-       (get_local $1)
+       (i32.load
+        (get_global $~env)
+       )
       )
       (i32.const 0)
      )
@@ -2346,7 +3055,7 @@
   )
   (get_local $0)
  )
- (func $~lib/internal/typedarray/TypedArray<f64,f64>#sort|trampoline~anonymous|0 (; 20 ;) (; has Stack IR ;) (type $FFi) (param $0 f64) (param $1 f64) (result i32)
+ (func $~lib/internal/typedarray/TypedArray<f64,f64>#sort|trampoline~anonymous|0 (; 26 ;) (; has Stack IR ;) (type $FFi) (param $0 f64) (param $1 f64) (result i32)
   (local $2 i64)
   (local $3 i64)
   (i32.sub
@@ -2384,206 +3093,7892 @@
      )
     )
    )
-   (i64.lt_s
-    (get_local $2)
-    (get_local $3)
+   (i64.lt_s
+    (get_local $2)
+    (get_local $3)
+   )
+  )
+ )
+ (func $~lib/internal/typedarray/TypedArray<f64,f64>#sort|trampoline (; 27 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (block $1of1
+   (block $0of1
+    (block $outOfRange
+     (br_table $0of1 $1of1 $outOfRange
+      (get_global $~argc)
+     )
+    )
+    (unreachable)
+   )
+   (set_local $1
+    (i32.const 176)
+   )
+  )
+  (call $~lib/internal/typedarray/TypedArray<f64,f64>#sort
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $~lib/internal/typedarray/TypedArray<f64,f64>#__get (; 28 ;) (; has Stack IR ;) (type $iiF) (param $0 i32) (param $1 i32) (result f64)
+  (local $2 i32)
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (i32.shr_u
+     (i32.sub
+      (i32.load offset=8
+       (get_local $0)
+      )
+      (tee_local $2
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+     )
+     (i32.const 3)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 51)
+     (i32.const 42)
+    )
+    (unreachable)
+   )
+  )
+  (f64.load offset=8
+   (i32.add
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (get_local $2)
+    )
+    (i32.shl
+     (get_local $1)
+     (i32.const 3)
+    )
+   )
+  )
+ )
+ (func $~lib/internal/typedarray/TypedArray<u8,u32>#__set (; 29 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (i32.sub
+     (i32.load offset=8
+      (get_local $0)
+     )
+     (tee_local $3
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 64)
+     (i32.const 42)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store8 offset=8
+   (i32.add
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (get_local $3)
+    )
+    (get_local $1)
+   )
+   (get_local $2)
+  )
+ )
+ (func $~lib/typedarray/Uint8ClampedArray#__set (; 30 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (call $~lib/internal/typedarray/TypedArray<u8,u32>#__set
+   (get_local $0)
+   (get_local $1)
+   (select
+    (tee_local $3
+     (select
+      (get_local $2)
+      (i32.const 255)
+      (i32.lt_s
+       (get_local $2)
+       (i32.const 255)
+      )
+     )
+    )
+    (i32.const 0)
+    (i32.gt_s
+     (get_local $3)
+     (i32.const 0)
+    )
+   )
+  )
+ )
+ (func $~lib/internal/typedarray/TypedArray<u8,u32>#__get (; 31 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (i32.sub
+     (i32.load offset=8
+      (get_local $0)
+     )
+     (tee_local $2
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 51)
+     (i32.const 42)
+    )
+    (unreachable)
+   )
+  )
+  (i32.load8_u offset=8
+   (i32.add
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (get_local $2)
+    )
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/internal/string/allocateUnsafe (; 32 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (tee_local $1
+    (i32.gt_s
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (set_local $1
+    (i32.le_s
+     (get_local $0)
+     (i32.const 536870910)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 240)
+     (i32.const 28)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $1
+    (call $~lib/allocator/arena/__memory_allocate
+     (i32.add
+      (i32.shl
+       (get_local $0)
+       (i32.const 1)
+      )
+      (i32.const 4)
+     )
+    )
+   )
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/memory/memcpy (; 33 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (loop $continue|0
+   (if
+    (tee_local $3
+     (if (result i32)
+      (get_local $2)
+      (i32.and
+       (get_local $1)
+       (i32.const 3)
+      )
+      (get_local $2)
+     )
+    )
+    (block
+     (set_local $0
+      (i32.add
+       (tee_local $4
+        (get_local $0)
+       )
+       (i32.const 1)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (tee_local $3
+        (get_local $1)
+       )
+       (i32.const 1)
+      )
+     )
+     (i32.store8
+      (get_local $4)
+      (i32.load8_u
+       (get_local $3)
+      )
+     )
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (get_local $0)
+     (i32.const 3)
+    )
+   )
+   (block
+    (loop $continue|1
+     (if
+      (i32.ge_u
+       (get_local $2)
+       (i32.const 16)
+      )
+      (block
+       (i32.store
+        (get_local $0)
+        (i32.load
+         (get_local $1)
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 4)
+        )
+        (i32.load
+         (i32.add
+          (get_local $1)
+          (i32.const 4)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (i32.load
+         (i32.add
+          (get_local $1)
+          (i32.const 8)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 12)
+        )
+        (i32.load
+         (i32.add
+          (get_local $1)
+          (i32.const 12)
+         )
+        )
+       )
+       (set_local $1
+        (i32.add
+         (get_local $1)
+         (i32.const 16)
+        )
+       )
+       (set_local $0
+        (i32.add
+         (get_local $0)
+         (i32.const 16)
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 16)
+        )
+       )
+       (br $continue|1)
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 8)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+       (i32.load
+        (i32.add
+         (get_local $1)
+         (i32.const 4)
+        )
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 8)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 8)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 4)
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 4)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 4)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 2)
+     )
+     (block
+      (i32.store16
+       (get_local $0)
+       (i32.load16_u
+        (get_local $1)
+       )
+      )
+      (set_local $0
+       (i32.add
+        (get_local $0)
+        (i32.const 2)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (if
+     (i32.and
+      (get_local $2)
+      (i32.const 1)
+     )
+     (block
+      (set_local $3
+       (get_local $1)
+      )
+      (i32.store8
+       (get_local $0)
+       (i32.load8_u
+        (get_local $1)
+       )
+      )
+     )
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $2)
+    (i32.const 32)
+   )
+   (block $break|2
+    (block $case2|2
+     (block $case1|2
+      (if
+       (i32.ne
+        (tee_local $3
+         (i32.and
+          (get_local $0)
+          (i32.const 3)
+         )
+        )
+        (i32.const 1)
+       )
+       (block
+        (br_if $case1|2
+         (i32.eq
+          (get_local $3)
+          (i32.const 2)
+         )
+        )
+        (br_if $case2|2
+         (i32.eq
+          (get_local $3)
+          (i32.const 3)
+         )
+        )
+        (br $break|2)
+       )
+      )
+      (set_local $5
+       (i32.load
+        (get_local $1)
+       )
+      )
+      (i32.store8
+       (get_local $0)
+       (i32.load8_u
+        (tee_local $3
+         (get_local $1)
+        )
+       )
+      )
+      (set_local $0
+       (tee_local $1
+        (i32.add
+         (get_local $0)
+         (i32.const 1)
+        )
+       )
+      )
+      (i32.store8
+       (get_local $1)
+       (i32.load8_u
+        (tee_local $1
+         (i32.add
+          (get_local $3)
+          (i32.const 1)
+         )
+        )
+       )
+      )
+      (set_local $0
+       (i32.add
+        (tee_local $4
+         (i32.add
+          (get_local $0)
+          (i32.const 1)
+         )
+        )
+        (i32.const 1)
+       )
+      )
+      (set_local $1
+       (i32.add
+        (tee_local $3
+         (i32.add
+          (get_local $1)
+          (i32.const 1)
+         )
+        )
+        (i32.const 1)
+       )
+      )
+      (i32.store8
+       (get_local $4)
+       (i32.load8_u
+        (get_local $3)
+       )
+      )
+      (set_local $2
+       (i32.sub
+        (get_local $2)
+        (i32.const 3)
+       )
+      )
+      (loop $continue|3
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 17)
+        )
+        (block
+         (i32.store
+          (get_local $0)
+          (i32.or
+           (i32.shr_u
+            (get_local $5)
+            (i32.const 24)
+           )
+           (i32.shl
+            (tee_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 1)
+              )
+             )
+            )
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 4)
+          )
+          (i32.or
+           (i32.shr_u
+            (get_local $3)
+            (i32.const 24)
+           )
+           (i32.shl
+            (tee_local $5
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 5)
+              )
+             )
+            )
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 8)
+          )
+          (i32.or
+           (i32.shr_u
+            (get_local $5)
+            (i32.const 24)
+           )
+           (i32.shl
+            (tee_local $3
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 9)
+              )
+             )
+            )
+            (i32.const 8)
+           )
+          )
+         )
+         (i32.store
+          (i32.add
+           (get_local $0)
+           (i32.const 12)
+          )
+          (i32.or
+           (i32.shr_u
+            (get_local $3)
+            (i32.const 24)
+           )
+           (i32.shl
+            (tee_local $5
+             (i32.load
+              (i32.add
+               (get_local $1)
+               (i32.const 13)
+              )
+             )
+            )
+            (i32.const 8)
+           )
+          )
+         )
+         (set_local $1
+          (i32.add
+           (get_local $1)
+           (i32.const 16)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (get_local $0)
+           (i32.const 16)
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 16)
+          )
+         )
+         (br $continue|3)
+        )
+       )
+      )
+      (br $break|2)
+     )
+     (set_local $5
+      (i32.load
+       (get_local $1)
+      )
+     )
+     (i32.store8
+      (get_local $0)
+      (i32.load8_u
+       (get_local $1)
+      )
+     )
+     (set_local $0
+      (i32.add
+       (tee_local $4
+        (i32.add
+         (get_local $0)
+         (i32.const 1)
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (tee_local $3
+        (i32.add
+         (get_local $1)
+         (i32.const 1)
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (i32.store8
+      (get_local $4)
+      (i32.load8_u
+       (get_local $3)
+      )
+     )
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 2)
+      )
+     )
+     (loop $continue|4
+      (if
+       (i32.ge_u
+        (get_local $2)
+        (i32.const 18)
+       )
+       (block
+        (i32.store
+         (get_local $0)
+         (i32.or
+          (i32.shr_u
+           (get_local $5)
+           (i32.const 16)
+          )
+          (i32.shl
+           (tee_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 2)
+             )
+            )
+           )
+           (i32.const 16)
+          )
+         )
+        )
+        (i32.store
+         (i32.add
+          (get_local $0)
+          (i32.const 4)
+         )
+         (i32.or
+          (i32.shr_u
+           (get_local $3)
+           (i32.const 16)
+          )
+          (i32.shl
+           (tee_local $5
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 6)
+             )
+            )
+           )
+           (i32.const 16)
+          )
+         )
+        )
+        (i32.store
+         (i32.add
+          (get_local $0)
+          (i32.const 8)
+         )
+         (i32.or
+          (i32.shr_u
+           (get_local $5)
+           (i32.const 16)
+          )
+          (i32.shl
+           (tee_local $3
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 10)
+             )
+            )
+           )
+           (i32.const 16)
+          )
+         )
+        )
+        (i32.store
+         (i32.add
+          (get_local $0)
+          (i32.const 12)
+         )
+         (i32.or
+          (i32.shr_u
+           (get_local $3)
+           (i32.const 16)
+          )
+          (i32.shl
+           (tee_local $5
+            (i32.load
+             (i32.add
+              (get_local $1)
+              (i32.const 14)
+             )
+            )
+           )
+           (i32.const 16)
+          )
+         )
+        )
+        (set_local $1
+         (i32.add
+          (get_local $1)
+          (i32.const 16)
+         )
+        )
+        (set_local $0
+         (i32.add
+          (get_local $0)
+          (i32.const 16)
+         )
+        )
+        (set_local $2
+         (i32.sub
+          (get_local $2)
+          (i32.const 16)
+         )
+        )
+        (br $continue|4)
+       )
+      )
+     )
+     (br $break|2)
+    )
+    (set_local $5
+     (i32.load
+      (get_local $1)
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (get_local $0)
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (get_local $1)
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+    (set_local $2
+     (i32.sub
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (loop $continue|5
+     (if
+      (i32.ge_u
+       (get_local $2)
+       (i32.const 19)
+      )
+      (block
+       (i32.store
+        (get_local $0)
+        (i32.or
+         (i32.shr_u
+          (get_local $5)
+          (i32.const 8)
+         )
+         (i32.shl
+          (tee_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 3)
+            )
+           )
+          )
+          (i32.const 24)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 4)
+        )
+        (i32.or
+         (i32.shr_u
+          (get_local $3)
+          (i32.const 8)
+         )
+         (i32.shl
+          (tee_local $5
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 7)
+            )
+           )
+          )
+          (i32.const 24)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (i32.or
+         (i32.shr_u
+          (get_local $5)
+          (i32.const 8)
+         )
+         (i32.shl
+          (tee_local $3
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 11)
+            )
+           )
+          )
+          (i32.const 24)
+         )
+        )
+       )
+       (i32.store
+        (i32.add
+         (get_local $0)
+         (i32.const 12)
+        )
+        (i32.or
+         (i32.shr_u
+          (get_local $3)
+          (i32.const 8)
+         )
+         (i32.shl
+          (tee_local $5
+           (i32.load
+            (i32.add
+             (get_local $1)
+             (i32.const 15)
+            )
+           )
+          )
+          (i32.const 24)
+         )
+        )
+       )
+       (set_local $1
+        (i32.add
+         (get_local $1)
+         (i32.const 16)
+        )
+       )
+       (set_local $0
+        (i32.add
+         (get_local $0)
+         (i32.const 16)
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 16)
+        )
+       )
+       (br $continue|5)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 16)
+   )
+   (block
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (tee_local $3
+       (get_local $1)
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $1
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $1)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $3)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 8)
+   )
+   (block
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (tee_local $3
+       (get_local $1)
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $1
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $1)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $3)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 4)
+   )
+   (block
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (tee_local $3
+       (get_local $1)
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $1
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $1)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $3)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (tee_local $3
+      (i32.add
+       (get_local $0)
+       (i32.const 1)
+      )
+     )
+    )
+    (i32.store8
+     (get_local $3)
+     (i32.load8_u
+      (tee_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 2)
+   )
+   (block
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (get_local $1)
+     )
+    )
+    (set_local $0
+     (i32.add
+      (tee_local $4
+       (i32.add
+        (get_local $0)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (tee_local $3
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.store8
+     (get_local $4)
+     (i32.load8_u
+      (get_local $3)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 1)
+   )
+   (block
+    (set_local $3
+     (get_local $1)
+    )
+    (i32.store8
+     (get_local $0)
+     (i32.load8_u
+      (get_local $1)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/memory/memmove (; 34 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return)
+  )
+  (if
+   (i32.eqz
+    (tee_local $3
+     (i32.le_u
+      (i32.add
+       (get_local $1)
+       (get_local $2)
+      )
+      (get_local $0)
+     )
+    )
+   )
+   (set_local $3
+    (i32.le_u
+     (i32.add
+      (get_local $0)
+      (get_local $2)
+     )
+     (get_local $1)
+    )
+   )
+  )
+  (if
+   (get_local $3)
+   (block
+    (call $~lib/internal/memory/memcpy
+     (get_local $0)
+     (get_local $1)
+     (get_local $2)
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.lt_u
+    (get_local $0)
+    (get_local $1)
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (loop $continue|0
+       (if
+        (i32.and
+         (get_local $0)
+         (i32.const 7)
+        )
+        (block
+         (if
+          (i32.eqz
+           (get_local $2)
+          )
+          (return)
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (tee_local $3
+            (tee_local $4
+             (get_local $0)
+            )
+           )
+           (i32.const 1)
+          )
+         )
+         (set_local $1
+          (i32.add
+           (tee_local $3
+            (get_local $1)
+           )
+           (i32.const 1)
+          )
+         )
+         (i32.store8
+          (get_local $4)
+          (i32.load8_u
+           (get_local $3)
+          )
+         )
+         (br $continue|0)
+        )
+       )
+      )
+      (loop $continue|1
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 8)
+        )
+        (block
+         (i64.store
+          (get_local $0)
+          (i64.load
+           (get_local $1)
+          )
+         )
+         (set_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 8)
+          )
+         )
+         (set_local $0
+          (i32.add
+           (get_local $0)
+           (i32.const 8)
+          )
+         )
+         (set_local $1
+          (i32.add
+           (get_local $1)
+           (i32.const 8)
+          )
+         )
+         (br $continue|1)
+        )
+       )
+      )
+     )
+    )
+    (loop $continue|2
+     (if
+      (get_local $2)
+      (block
+       (set_local $0
+        (i32.add
+         (tee_local $3
+          (tee_local $4
+           (get_local $0)
+          )
+         )
+         (i32.const 1)
+        )
+       )
+       (set_local $1
+        (i32.add
+         (tee_local $3
+          (get_local $1)
+         )
+         (i32.const 1)
+        )
+       )
+       (i32.store8
+        (get_local $4)
+        (i32.load8_u
+         (get_local $3)
+        )
+       )
+       (set_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+       (br $continue|2)
+      )
+     )
+    )
+   )
+   (block
+    (if
+     (i32.eq
+      (i32.and
+       (get_local $1)
+       (i32.const 7)
+      )
+      (i32.and
+       (get_local $0)
+       (i32.const 7)
+      )
+     )
+     (block
+      (loop $continue|3
+       (if
+        (i32.and
+         (i32.add
+          (get_local $0)
+          (get_local $2)
+         )
+         (i32.const 7)
+        )
+        (block
+         (if
+          (i32.eqz
+           (get_local $2)
+          )
+          (return)
+         )
+         (i32.store8
+          (i32.add
+           (get_local $0)
+           (tee_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 1)
+            )
+           )
+          )
+          (i32.load8_u
+           (i32.add
+            (get_local $1)
+            (get_local $2)
+           )
+          )
+         )
+         (br $continue|3)
+        )
+       )
+      )
+      (loop $continue|4
+       (if
+        (i32.ge_u
+         (get_local $2)
+         (i32.const 8)
+        )
+        (block
+         (i64.store
+          (i32.add
+           (get_local $0)
+           (tee_local $2
+            (i32.sub
+             (get_local $2)
+             (i32.const 8)
+            )
+           )
+          )
+          (i64.load
+           (i32.add
+            (get_local $1)
+            (get_local $2)
+           )
+          )
+         )
+         (br $continue|4)
+        )
+       )
+      )
+     )
+    )
+    (loop $continue|5
+     (if
+      (get_local $2)
+      (block
+       (i32.store8
+        (i32.add
+         (get_local $0)
+         (tee_local $2
+          (i32.sub
+           (get_local $2)
+           (i32.const 1)
+          )
+         )
+        )
+        (i32.load8_u
+         (i32.add
+          (get_local $1)
+          (get_local $2)
+         )
+        )
+       )
+       (br $continue|5)
+      )
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/internal/string/copyUnsafe (; 35 ;) (; has Stack IR ;) (type $FUNCSIG$viiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32)
+  (call $~lib/internal/memory/memmove
+   (i32.add
+    (i32.add
+     (get_local $0)
+     (i32.shl
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.add
+    (get_local $2)
+    (i32.const 4)
+   )
+   (i32.shl
+    (get_local $3)
+    (i32.const 1)
+   )
+  )
+ )
+ (func $~lib/string/String#concat (; 36 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 208)
+     (i32.const 131)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (set_local $1
+    (i32.const 192)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.add
+      (tee_local $3
+       (i32.load
+        (get_local $0)
+       )
+      )
+      (tee_local $4
+       (i32.load
+        (get_local $1)
+       )
+      )
+     )
+    )
+   )
+   (return
+    (i32.const 184)
+   )
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (tee_local $2
+    (call $~lib/internal/string/allocateUnsafe
+     (get_local $2)
+    )
+   )
+   (i32.const 0)
+   (get_local $0)
+   (get_local $3)
+  )
+  (call $~lib/internal/string/copyUnsafe
+   (get_local $2)
+   (get_local $3)
+   (get_local $1)
+   (get_local $4)
+  )
+  (get_local $2)
+ )
+ (func $~lib/string/String.__concat (; 37 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (set_local $0
+    (i32.const 192)
+   )
+  )
+  (call $~lib/string/String#concat
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $~lib/internal/itoa/decimalCountU32 (; 38 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.load offset=8
+    (i32.add
+     (i32.load
+      (i32.const 368)
+     )
+     (i32.shl
+      (tee_local $1
+       (i32.shr_u
+        (i32.mul
+         (i32.sub
+          (i32.const 32)
+          (i32.clz
+           (get_local $0)
+          )
+         )
+         (i32.const 1233)
+        )
+        (i32.const 12)
+       )
+      )
+      (i32.const 2)
+     )
+    )
+   )
+  )
+  (i32.add
+   (i32.sub
+    (get_local $1)
+    (i32.lt_u
+     (get_local $0)
+     (get_local $2)
+    )
+   )
+   (i32.const 1)
+  )
+ )
+ (func $~lib/internal/itoa/utoa32_lut (; 39 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load
+    (i32.const 888)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.ge_u
+     (get_local $1)
+     (i32.const 10000)
+    )
+    (block
+     (set_local $4
+      (i32.rem_u
+       (get_local $1)
+       (i32.const 10000)
+      )
+     )
+     (set_local $1
+      (i32.div_u
+       (get_local $1)
+       (i32.const 10000)
+      )
+     )
+     (i64.store offset=4
+      (i32.add
+       (get_local $0)
+       (i32.shl
+        (tee_local $2
+         (i32.sub
+          (get_local $2)
+          (i32.const 4)
+         )
+        )
+        (i32.const 1)
+       )
+      )
+      (i64.or
+       (i64.load32_u offset=8
+        (i32.add
+         (get_local $3)
+         (i32.shl
+          (i32.div_u
+           (get_local $4)
+           (i32.const 100)
+          )
+          (i32.const 2)
+         )
+        )
+       )
+       (i64.shl
+        (i64.load32_u offset=8
+         (i32.add
+          (get_local $3)
+          (i32.shl
+           (i32.rem_u
+            (get_local $4)
+            (i32.const 100)
+           )
+           (i32.const 2)
+          )
+         )
+        )
+        (i64.const 32)
+       )
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (i32.const 100)
+   )
+   (block
+    (set_local $4
+     (i32.rem_u
+      (get_local $1)
+      (i32.const 100)
+     )
+    )
+    (set_local $1
+     (i32.div_u
+      (get_local $1)
+      (i32.const 100)
+     )
+    )
+    (i32.store offset=4
+     (i32.add
+      (get_local $0)
+      (i32.shl
+       (tee_local $2
+        (i32.sub
+         (get_local $2)
+         (i32.const 2)
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (i32.load offset=8
+      (i32.add
+       (get_local $3)
+       (i32.shl
+        (get_local $4)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (i32.const 10)
+   )
+   (i32.store offset=4
+    (i32.add
+     (get_local $0)
+     (i32.shl
+      (i32.sub
+       (get_local $2)
+       (i32.const 2)
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.load offset=8
+     (i32.add
+      (get_local $3)
+      (i32.shl
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+    )
+   )
+   (i32.store16 offset=4
+    (i32.add
+     (get_local $0)
+     (i32.shl
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+      (i32.const 1)
+     )
+    )
+    (i32.add
+     (get_local $1)
+     (i32.const 48)
+    )
+   )
+  )
+ )
+ (func $~lib/internal/itoa/itoa32 (; 40 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return
+    (i32.const 296)
+   )
+  )
+  (if
+   (tee_local $1
+    (i32.lt_s
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (set_local $0
+    (i32.sub
+     (i32.const 0)
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/internal/itoa/utoa32_lut
+   (tee_local $2
+    (call $~lib/internal/string/allocateUnsafe
+     (tee_local $3
+      (i32.add
+       (call $~lib/internal/itoa/decimalCountU32
+        (get_local $0)
+       )
+       (get_local $1)
+      )
+     )
+    )
+   )
+   (get_local $0)
+   (get_local $3)
+  )
+  (if
+   (get_local $1)
+   (i32.store16 offset=4
+    (get_local $2)
+    (i32.const 45)
+   )
+  )
+  (get_local $2)
+ )
+ (func $~lib/internal/itoa/itoa<i8> (; 41 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/internal/itoa/itoa32
+   (i32.shr_s
+    (i32.shl
+     (get_local $0)
+     (i32.const 24)
+    )
+    (i32.const 24)
+   )
+  )
+ )
+ (func $~lib/internal/typedarray/TypedArray<i8,i32>#join (; 42 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.sub
+      (i32.load offset=8
+       (get_local $0)
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+    )
+   )
+   (return
+    (i32.const 184)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $0
+   (i32.const 184)
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $1)
+      (get_local $2)
+     )
+    )
+    (if
+     (get_local $1)
+     (set_local $0
+      (call $~lib/string/String.__concat
+       (get_local $0)
+       (i32.const 896)
+      )
+     )
+    )
+    (set_local $0
+     (call $~lib/string/String.__concat
+      (get_local $0)
+      (call $~lib/internal/itoa/itoa<i8>
+       (i32.load8_s offset=8
+        (i32.add
+         (i32.add
+          (get_local $3)
+          (get_local $4)
+         )
+         (get_local $1)
+        )
+       )
+      )
+     )
+    )
+    (set_local $1
+     (i32.add
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/string/compareUnsafe (; 43 ;) (; has Stack IR ;) (type $FUNCSIG$iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (get_local $0)
+  )
+  (loop $continue|0
+   (if
+    (tee_local $0
+     (if (result i32)
+      (get_local $2)
+      (i32.eqz
+       (tee_local $4
+        (i32.sub
+         (i32.load16_u offset=4
+          (get_local $3)
+         )
+         (i32.load16_u offset=4
+          (get_local $1)
+         )
+        )
+       )
+      )
+      (get_local $2)
+     )
+    )
+    (block
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (set_local $3
+      (i32.add
+       (get_local $3)
+       (i32.const 2)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (get_local $4)
+ )
+ (func $~lib/string/String.__eq (; 44 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.eqz
+      (get_local $0)
+     )
+    )
+   )
+   (set_local $2
+    (i32.eqz
+     (get_local $1)
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (return
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.ne
+    (tee_local $2
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (i32.load
+     (get_local $1)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.eqz
+   (call $~lib/internal/string/compareUnsafe
+    (get_local $0)
+    (get_local $1)
+    (get_local $2)
+   )
+  )
+ )
+ (func $~lib/internal/itoa/itoa<i32> (; 45 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/internal/itoa/itoa32
+   (get_local $0)
+  )
+ )
+ (func $~lib/internal/typedarray/TypedArray<i32,i32>#join (; 46 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (i32.eqz
+    (tee_local $3
+     (i32.shr_s
+      (i32.sub
+       (i32.load offset=8
+        (get_local $0)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (i32.const 2)
+     )
+    )
+   )
+   (return
+    (i32.const 184)
+   )
+  )
+  (set_local $4
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $5
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $0
+   (i32.const 184)
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (get_local $3)
+     )
+    )
+    (if
+     (get_local $2)
+     (set_local $0
+      (call $~lib/string/String.__concat
+       (get_local $0)
+       (get_local $1)
+      )
+     )
+    )
+    (set_local $0
+     (call $~lib/string/String.__concat
+      (get_local $0)
+      (call $~lib/internal/itoa/itoa<i32>
+       (i32.load offset=8
+        (i32.add
+         (i32.add
+          (get_local $4)
+          (get_local $5)
+         )
+         (i32.shl
+          (get_local $2)
+          (i32.const 2)
+         )
+        )
+       )
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/array/Array<i32>#__unchecked_get (; 47 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.load offset=8
+   (i32.add
+    (i32.load
+     (get_local $0)
+    )
+    (i32.shl
+     (get_local $1)
+     (i32.const 2)
+    )
+   )
+  )
+ )
+ (func $~lib/internal/typedarray/TypedArray<i32,i32>#set<Array<i32>> (; 48 ;) (; has Stack IR ;) (type $FUNCSIG$vii) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.gt_u
+      (i32.const 0)
+      (i32.shr_s
+       (i32.sub
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (i32.const 2)
+      )
+     )
+    )
+   )
+   (set_local $2
+    (i32.gt_s
+     (get_local $3)
+     (i32.shr_s
+      (i32.sub
+       (i32.load offset=8
+        (get_local $0)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (i32.const 2)
+     )
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 101)
+     (i32.const 6)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $4
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $0
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (get_local $3)
+     )
+    )
+    (i32.store offset=8
+     (i32.add
+      (i32.add
+       (get_local $4)
+       (get_local $0)
+      )
+      (i32.shl
+       (get_local $2)
+       (i32.const 2)
+      )
+     )
+     (call $~lib/array/Array<i32>#__unchecked_get
+      (get_local $1)
+      (get_local $2)
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $~lib/typedarray/Int32Array.from<Array<i32>> (; 49 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/internal/typedarray/TypedArray<i32,i32>#set<Array<i32>>
+   (tee_local $1
+    (call $~lib/internal/typedarray/TypedArray<i32,i32>#constructor
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+   )
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/typedarray/Int32Array.of (; 50 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (call $~lib/typedarray/Int32Array.from<Array<i32>>
+   (i32.const 1072)
+  )
+ )
+ (func $~lib/internal/typedarray/TypedArray<i32,i32>#__unchecked_get (; 51 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.load offset=8
+   (i32.add
+    (i32.add
+     (i32.load
+      (get_local $0)
+     )
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+    (i32.shl
+     (get_local $1)
+     (i32.const 2)
+    )
+   )
+  )
+ )
+ (func $~lib/internal/typedarray/TypedArray<i32,i32>#set<Int32Array> (; 52 ;) (; has Stack IR ;) (type $FUNCSIG$vii) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.shr_s
+    (i32.sub
+     (i32.load offset=8
+      (get_local $1)
+     )
+     (i32.load offset=4
+      (get_local $1)
+     )
+    )
+    (i32.const 2)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.gt_u
+      (i32.const 3)
+      (i32.shr_s
+       (i32.sub
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (i32.const 2)
+      )
+     )
+    )
+   )
+   (set_local $2
+    (i32.gt_s
+     (get_local $3)
+     (i32.sub
+      (i32.shr_s
+       (i32.sub
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (i32.const 2)
+      )
+      (i32.const 3)
+     )
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 101)
+     (i32.const 6)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $4
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $0
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (get_local $3)
+     )
+    )
+    (i32.store offset=8
+     (i32.add
+      (i32.add
+       (get_local $4)
+       (get_local $0)
+      )
+      (i32.shl
+       (i32.add
+        (get_local $2)
+        (i32.const 3)
+       )
+       (i32.const 2)
+      )
+     )
+     (call $~lib/internal/typedarray/TypedArray<i32,i32>#__unchecked_get
+      (get_local $1)
+      (get_local $2)
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $~lib/internal/typedarray/TypedArray<i32,i32>#copyWithin (; 53 ;) (; has Stack IR ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $5
+   (i32.shr_s
+    (i32.sub
+     (i32.load offset=8
+      (get_local $0)
+     )
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+    (i32.const 2)
+   )
+  )
+  (set_local $1
+   (if (result i32)
+    (i32.lt_s
+     (get_local $1)
+     (i32.const 0)
+    )
+    (select
+     (tee_local $4
+      (i32.add
+       (get_local $5)
+       (get_local $1)
+      )
+     )
+     (i32.const 0)
+     (i32.gt_s
+      (get_local $4)
+      (i32.const 0)
+     )
+    )
+    (select
+     (tee_local $4
+      (get_local $1)
+     )
+     (get_local $5)
+     (i32.lt_s
+      (get_local $4)
+      (get_local $5)
+     )
+    )
+   )
+  )
+  (set_local $2
+   (if (result i32)
+    (i32.lt_s
+     (get_local $2)
+     (i32.const 0)
+    )
+    (select
+     (tee_local $4
+      (i32.add
+       (get_local $5)
+       (get_local $2)
+      )
+     )
+     (i32.const 0)
+     (i32.gt_s
+      (get_local $4)
+      (i32.const 0)
+     )
+    )
+    (select
+     (tee_local $4
+      (get_local $2)
+     )
+     (get_local $5)
+     (i32.lt_s
+      (get_local $4)
+      (get_local $5)
+     )
+    )
+   )
+  )
+  (if
+   (i32.gt_s
+    (tee_local $3
+     (select
+      (tee_local $4
+       (i32.sub
+        (tee_local $3
+         (if (result i32)
+          (i32.lt_s
+           (get_local $3)
+           (i32.const 0)
+          )
+          (select
+           (tee_local $4
+            (i32.add
+             (get_local $5)
+             (get_local $3)
+            )
+           )
+           (i32.const 0)
+           (i32.gt_s
+            (get_local $4)
+            (i32.const 0)
+           )
+          )
+          (select
+           (tee_local $4
+            (get_local $3)
+           )
+           (get_local $5)
+           (i32.lt_s
+            (get_local $4)
+            (get_local $5)
+           )
+          )
+         )
+        )
+        (get_local $2)
+       )
+      )
+      (tee_local $5
+       (i32.sub
+        (get_local $5)
+        (get_local $1)
+       )
+      )
+      (i32.lt_s
+       (get_local $4)
+       (get_local $5)
+      )
+     )
+    )
+    (i32.const 0)
+   )
+   (call $~lib/internal/memory/memmove
+    (i32.add
+     (tee_local $4
+      (i32.add
+       (i32.add
+        (i32.load
+         (get_local $0)
+        )
+        (i32.const 8)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+     )
+     (i32.shl
+      (get_local $1)
+      (i32.const 2)
+     )
+    )
+    (i32.add
+     (get_local $4)
+     (i32.shl
+      (get_local $2)
+      (i32.const 2)
+     )
+    )
+    (i32.shl
+     (get_local $3)
+     (i32.const 2)
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/typedarray/Uint8ClampedArray#set<Array<u32>> (; 54 ;) (; has Stack IR ;) (type $FUNCSIG$vii) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $4
+   (i32.load offset=4
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.gt_u
+      (i32.const 0)
+      (i32.sub
+       (i32.load offset=8
+        (get_local $0)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+     )
+    )
+   )
+   (set_local $2
+    (i32.gt_s
+     (get_local $4)
+     (i32.sub
+      (i32.load offset=8
+       (get_local $0)
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 1192)
+     (i32.const 157)
+     (i32.const 6)
+    )
+    (unreachable)
+   )
+  )
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (get_local $4)
+     )
+    )
+    (set_local $3
+     (select
+      (tee_local $3
+       (call $~lib/array/Array<i32>#__unchecked_get
+        (get_local $1)
+        (get_local $2)
+       )
+      )
+      (i32.const 255)
+      (i32.lt_s
+       (get_local $3)
+       (i32.const 255)
+      )
+     )
+    )
+    (i32.store8 offset=8
+     (i32.add
+      (i32.add
+       (i32.load
+        (get_local $0)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (get_local $2)
+     )
+     (select
+      (get_local $3)
+      (i32.const 0)
+      (i32.gt_s
+       (get_local $3)
+       (i32.const 0)
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $~lib/typedarray/Uint8ClampedArray.from<Array<u32>> (; 55 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/typedarray/Uint8ClampedArray#set<Array<u32>>
+   (tee_local $1
+    (call $~lib/internal/typedarray/TypedArray<u8,u32>#constructor
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+   )
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/typedarray/Uint8ClampedArray.of (; 56 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (call $~lib/typedarray/Uint8ClampedArray.from<Array<u32>>
+   (i32.const 1184)
+  )
+ )
+ (func $~lib/internal/itoa/utoa32 (; 57 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (return
+    (i32.const 296)
+   )
+  )
+  (call $~lib/internal/itoa/utoa32_lut
+   (tee_local $2
+    (call $~lib/internal/string/allocateUnsafe
+     (tee_local $1
+      (call $~lib/internal/itoa/decimalCountU32
+       (get_local $0)
+      )
+     )
+    )
+   )
+   (get_local $0)
+   (get_local $1)
+  )
+  (get_local $2)
+ )
+ (func $~lib/internal/itoa/itoa<u8> (; 58 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/internal/itoa/utoa32
+   (i32.and
+    (get_local $0)
+    (i32.const 255)
+   )
+  )
+ )
+ (func $~lib/internal/typedarray/TypedArray<u8,u32>#join (; 59 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.sub
+      (i32.load offset=8
+       (get_local $0)
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+    )
+   )
+   (return
+    (i32.const 184)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $0
+   (i32.const 184)
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $1)
+      (get_local $2)
+     )
+    )
+    (if
+     (get_local $1)
+     (set_local $0
+      (call $~lib/string/String.__concat
+       (get_local $0)
+       (i32.const 896)
+      )
+     )
+    )
+    (set_local $0
+     (call $~lib/string/String.__concat
+      (get_local $0)
+      (call $~lib/internal/itoa/itoa<u8>
+       (i32.load8_u offset=8
+        (i32.add
+         (i32.add
+          (get_local $3)
+          (get_local $4)
+         )
+         (get_local $1)
+        )
+       )
+      )
+     )
+    )
+    (set_local $1
+     (i32.add
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/typedarray/TypedArray<u8,u32>#fill (; 60 ;) (; has Stack IR ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (set_local $6
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $7
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.sub
+    (i32.load offset=8
+     (get_local $0)
+    )
+    (i32.load offset=4
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.lt_s
+    (tee_local $2
+     (if (result i32)
+      (i32.lt_s
+       (get_local $2)
+       (i32.const 0)
+      )
+      (select
+       (tee_local $5
+        (i32.add
+         (get_local $4)
+         (get_local $2)
+        )
+       )
+       (i32.const 0)
+       (i32.gt_s
+        (get_local $5)
+        (i32.const 0)
+       )
+      )
+      (select
+       (tee_local $5
+        (get_local $2)
+       )
+       (get_local $4)
+       (i32.lt_s
+        (get_local $2)
+        (get_local $4)
+       )
+      )
+     )
+    )
+    (tee_local $3
+     (if (result i32)
+      (i32.lt_s
+       (get_local $3)
+       (i32.const 0)
+      )
+      (select
+       (tee_local $5
+        (i32.add
+         (get_local $4)
+         (get_local $3)
+        )
+       )
+       (i32.const 0)
+       (i32.gt_s
+        (get_local $5)
+        (i32.const 0)
+       )
+      )
+      (select
+       (tee_local $5
+        (get_local $3)
+       )
+       (get_local $4)
+       (i32.lt_s
+        (get_local $3)
+        (get_local $4)
+       )
+      )
+     )
+    )
+   )
+   (call $~lib/internal/memory/memset
+    (i32.add
+     (i32.add
+      (i32.add
+       (get_local $6)
+       (i32.const 8)
+      )
+      (get_local $7)
+     )
+     (get_local $2)
+    )
+    (get_local $1)
+    (i32.sub
+     (get_local $3)
+     (get_local $2)
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/typedarray/Uint8ClampedArray#fill (; 61 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (drop
+   (call $~lib/internal/typedarray/TypedArray<u8,u32>#fill
+    (get_local $0)
+    (i32.const 0)
+    (i32.const 0)
+    (i32.const 2147483647)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/typedarray/TypedArray<i32,i32>#indexOf (; 62 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eqz
+    (tee_local $3
+     (i32.eqz
+      (tee_local $4
+       (i32.shr_s
+        (i32.sub
+         (i32.load offset=8
+          (get_local $0)
+         )
+         (i32.load offset=4
+          (get_local $0)
+         )
+        )
+        (i32.const 2)
+       )
+      )
+     )
+    )
+   )
+   (set_local $3
+    (i32.ge_s
+     (get_local $2)
+     (get_local $4)
+    )
+   )
+  )
+  (if
+   (get_local $3)
+   (return
+    (i32.const -1)
+   )
+  )
+  (if
+   (i32.lt_s
+    (get_local $2)
+    (i32.const 0)
+   )
+   (set_local $2
+    (select
+     (tee_local $3
+      (i32.add
+       (get_local $4)
+       (get_local $2)
+      )
+     )
+     (i32.const 0)
+     (i32.gt_s
+      (get_local $3)
+      (i32.const 0)
+     )
+    )
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $0
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.lt_s
+     (get_local $2)
+     (get_local $4)
+    )
+    (block
+     (if
+      (i32.eq
+       (i32.load offset=8
+        (i32.add
+         (i32.add
+          (get_local $3)
+          (get_local $0)
+         )
+         (i32.shl
+          (get_local $2)
+          (i32.const 2)
+         )
+        )
+       )
+       (get_local $1)
+      )
+      (return
+       (get_local $2)
+      )
+     )
+     (set_local $2
+      (i32.add
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (i32.const -1)
+ )
+ (func $~lib/internal/typedarray/TypedArray<i32,i32>#lastIndexOf (; 63 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (if
+   (i32.eqz
+    (tee_local $3
+     (i32.shr_s
+      (i32.sub
+       (i32.load offset=8
+        (get_local $0)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (i32.const 2)
+     )
+    )
+   )
+   (return
+    (i32.const -1)
+   )
+  )
+  (if
+   (i32.lt_s
+    (get_local $2)
+    (i32.const 0)
+   )
+   (set_local $2
+    (i32.add
+     (get_local $3)
+     (get_local $2)
+    )
+   )
+   (if
+    (i32.ge_s
+     (get_local $2)
+     (get_local $3)
+    )
+    (set_local $2
+     (i32.sub
+      (get_local $3)
+      (i32.const 1)
+     )
+    )
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $0
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.ge_s
+     (get_local $2)
+     (i32.const 0)
+    )
+    (block
+     (if
+      (i32.eq
+       (i32.load offset=8
+        (i32.add
+         (i32.add
+          (get_local $3)
+          (get_local $0)
+         )
+         (i32.shl
+          (get_local $2)
+          (i32.const 2)
+         )
+        )
+       )
+       (get_local $1)
+      )
+      (return
+       (get_local $2)
+      )
+     )
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (i32.const -1)
+ )
+ (func $~lib/internal/typedarray/TypedArray<i32,i32>#includes (; 64 ;) (; has Stack IR ;) (type $FUNCSIG$iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.eqz
+      (tee_local $3
+       (i32.shr_s
+        (i32.sub
+         (i32.load offset=8
+          (get_local $0)
+         )
+         (i32.load offset=4
+          (get_local $0)
+         )
+        )
+        (i32.const 2)
+       )
+      )
+     )
+    )
+   )
+   (set_local $2
+    (i32.ge_s
+     (get_local $1)
+     (get_local $3)
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (return
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.lt_s
+    (get_local $1)
+    (i32.const 0)
+   )
+   (set_local $1
+    (select
+     (tee_local $2
+      (i32.add
+       (get_local $3)
+       (get_local $1)
+      )
+     )
+     (i32.const 0)
+     (i32.gt_s
+      (get_local $2)
+      (i32.const 0)
+     )
+    )
+   )
+  )
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $0
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.lt_s
+     (get_local $1)
+     (get_local $3)
+    )
+    (block
+     (if
+      (i32.eq
+       (i32.load offset=8
+        (i32.add
+         (i32.add
+          (get_local $2)
+          (get_local $0)
+         )
+         (i32.shl
+          (get_local $1)
+          (i32.const 2)
+         )
+        )
+       )
+       (i32.const 3)
+      )
+      (return
+       (i32.const 1)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/array/Array<f64>#__unchecked_get (; 65 ;) (; has Stack IR ;) (type $iiF) (param $0 i32) (param $1 i32) (result f64)
+  (f64.load offset=8
+   (i32.add
+    (i32.load
+     (get_local $0)
+    )
+    (i32.shl
+     (get_local $1)
+     (i32.const 3)
+    )
+   )
+  )
+ )
+ (func $~lib/internal/typedarray/TypedArray<f64,f64>#set<Array<f64>> (; 66 ;) (; has Stack IR ;) (type $FUNCSIG$vii) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.gt_u
+      (i32.const 0)
+      (i32.shr_s
+       (i32.sub
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (i32.const 3)
+      )
+     )
+    )
+   )
+   (set_local $2
+    (i32.gt_s
+     (get_local $3)
+     (i32.shr_s
+      (i32.sub
+       (i32.load offset=8
+        (get_local $0)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (i32.const 3)
+     )
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 101)
+     (i32.const 6)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $4
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $0
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (get_local $3)
+     )
+    )
+    (f64.store offset=8
+     (i32.add
+      (i32.add
+       (get_local $4)
+       (get_local $0)
+      )
+      (i32.shl
+       (get_local $2)
+       (i32.const 3)
+      )
+     )
+     (call $~lib/array/Array<f64>#__unchecked_get
+      (get_local $1)
+      (get_local $2)
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $~lib/typedarray/Float64Array.from<Array<f64>> (; 67 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/internal/typedarray/TypedArray<f64,f64>#set<Array<f64>>
+   (tee_local $1
+    (call $~lib/internal/typedarray/TypedArray<f64,f64>#constructor
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+   )
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/typedarray/Float64Array.of (; 68 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (call $~lib/typedarray/Float64Array.from<Array<f64>>
+   (i32.const 1328)
+  )
+ )
+ (func $~lib/internal/typedarray/TypedArray<f64,f64>#indexOf (; 69 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.eqz
+      (tee_local $3
+       (i32.shr_s
+        (i32.sub
+         (i32.load offset=8
+          (get_local $0)
+         )
+         (i32.load offset=4
+          (get_local $0)
+         )
+        )
+        (i32.const 3)
+       )
+      )
+     )
+    )
+   )
+   (set_local $2
+    (i32.ge_s
+     (i32.const 0)
+     (get_local $3)
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (return
+    (i32.const -1)
+   )
+  )
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $0
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.lt_s
+     (get_local $1)
+     (get_local $3)
+    )
+    (block
+     (if
+      (f64.eq
+       (f64.load offset=8
+        (i32.add
+         (i32.add
+          (get_local $2)
+          (get_local $0)
+         )
+         (i32.shl
+          (get_local $1)
+          (i32.const 3)
+         )
+        )
+       )
+       (f64.const nan:0x8000000000000)
+      )
+      (return
+       (get_local $1)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (i32.const -1)
+ )
+ (func $~lib/builtins/isNaN<f64> (; 70 ;) (; has Stack IR ;) (type $Fi) (param $0 f64) (result i32)
+  (f64.ne
+   (get_local $0)
+   (get_local $0)
+  )
+ )
+ (func $~lib/internal/typedarray/TypedArray<f64,f64>#includes (; 71 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 f64)
+  (if
+   (i32.eqz
+    (tee_local $1
+     (i32.eqz
+      (tee_local $3
+       (i32.shr_s
+        (i32.sub
+         (i32.load offset=8
+          (get_local $0)
+         )
+         (i32.load offset=4
+          (get_local $0)
+         )
+        )
+        (i32.const 3)
+       )
+      )
+     )
+    )
+   )
+   (set_local $1
+    (i32.ge_s
+     (i32.const 0)
+     (get_local $3)
+    )
+   )
+  )
+  (if
+   (get_local $1)
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $4
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $0
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (loop $continue|0
+   (if
+    (i32.lt_s
+     (get_local $2)
+     (get_local $3)
+    )
+    (block
+     (if
+      (f64.eq
+       (tee_local $5
+        (f64.load offset=8
+         (i32.add
+          (i32.add
+           (get_local $4)
+           (get_local $0)
+          )
+          (i32.shl
+           (get_local $2)
+           (i32.const 3)
+          )
+         )
+        )
+       )
+       (f64.const nan:0x8000000000000)
+      )
+      (return
+       (i32.const 1)
+      )
+     )
+     (if
+      (tee_local $1
+       (call $~lib/builtins/isNaN<f64>
+        (get_local $5)
+       )
+      )
+      (set_local $1
+       (call $~lib/builtins/isNaN<f64>
+        (f64.const nan:0x8000000000000)
+       )
+      )
+     )
+     (if
+      (get_local $1)
+      (return
+       (i32.const 1)
+      )
+     )
+     (set_local $2
+      (i32.add
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/internal/dtoa/formatNonFinite (; 72 ;) (; has Stack IR ;) (type $Fi) (param $0 f64) (result i32)
+  (if
+   (f64.ne
+    (get_local $0)
+    (get_local $0)
+   )
+   (return
+    (i32.const 1336)
+   )
+  )
+  (if (result i32)
+   (f64.lt
+    (get_local $0)
+    (f64.const 0)
+   )
+   (i32.const 1352)
+   (i32.const 1376)
+  )
+ )
+ (func $~lib/internal/dtoa/umul128 (; 73 ;) (; has Stack IR ;) (type $III) (param $0 i64) (param $1 i64) (result i64)
+  (local $2 i64)
+  (local $3 i64)
+  (local $4 i64)
+  (set_local $3
+   (i64.mul
+    (tee_local $4
+     (i64.shr_u
+      (get_local $0)
+      (i64.const 32)
+     )
+    )
+    (tee_local $2
+     (i64.and
+      (get_local $1)
+      (i64.const 4294967295)
+     )
+    )
+   )
+  )
+  (set_local $2
+   (i64.mul
+    (tee_local $0
+     (i64.and
+      (get_local $0)
+      (i64.const 4294967295)
+     )
+    )
+    (get_local $2)
+   )
+  )
+  (set_local $3
+   (i64.add
+    (i64.mul
+     (get_local $0)
+     (tee_local $1
+      (i64.shr_u
+       (get_local $1)
+       (i64.const 32)
+      )
+     )
+    )
+    (i64.and
+     (tee_local $0
+      (i64.add
+       (get_local $3)
+       (i64.shr_u
+        (get_local $2)
+        (i64.const 32)
+       )
+      )
+     )
+     (i64.const 4294967295)
+    )
+   )
+  )
+  (set_global $~lib/internal/dtoa/_hi
+   (i64.add
+    (i64.add
+     (i64.mul
+      (get_local $4)
+      (get_local $1)
+     )
+     (i64.shr_u
+      (get_local $0)
+      (i64.const 32)
+     )
+    )
+    (i64.shr_u
+     (get_local $3)
+     (i64.const 32)
+    )
+   )
+  )
+  (i64.or
+   (i64.shl
+    (get_local $3)
+    (i64.const 32)
+   )
+   (i64.and
+    (get_local $2)
+    (i64.const 4294967295)
+   )
+  )
+ )
+ (func $~lib/internal/dtoa/mulShift64 (; 74 ;) (; has Stack IR ;) (type $IIIiI) (param $0 i64) (param $1 i64) (param $2 i64) (param $3 i32) (result i64)
+  (drop
+   (call $~lib/internal/dtoa/umul128
+    (get_local $0)
+    (get_local $1)
+   )
+  )
+  (set_local $1
+   (get_global $~lib/internal/dtoa/_hi)
+  )
+  (set_local $0
+   (call $~lib/internal/dtoa/umul128
+    (get_local $0)
+    (get_local $2)
+   )
+  )
+  (i64.or
+   (i64.shl
+    (tee_local $0
+     (i64.add
+      (get_global $~lib/internal/dtoa/_hi)
+      (i64.extend_u/i32
+       (i64.lt_u
+        (tee_local $1
+         (i64.add
+          (get_local $0)
+          (get_local $1)
+         )
+        )
+        (get_local $0)
+       )
+      )
+     )
+    )
+    (i64.sub
+     (i64.const 64)
+     (tee_local $0
+      (i64.extend_s/i32
+       (i32.add
+        (get_local $3)
+        (i32.const -64)
+       )
+      )
+     )
+    )
+   )
+   (i64.shr_u
+    (get_local $1)
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/internal/dtoa/pow5Factor (; 75 ;) (; has Stack IR ;) (type $Ii) (param $0 i64) (result i32)
+  (local $1 i32)
+  (loop $continue|0
+   (if
+    (i64.eqz
+     (i64.rem_u
+      (get_local $0)
+      (i64.const 5)
+     )
+    )
+    (block
+     (set_local $0
+      (i64.div_u
+       (get_local $0)
+       (i64.const 5)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/dtoa/ryu64 (; 76 ;) (; has Stack IR ;) (type $Iiv) (param $0 i64) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i64)
+  (local $5 i64)
+  (local $6 i64)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i64)
+  (local $11 i64)
+  (local $12 i32)
+  (local $13 i32)
+  (set_local $12
+   (i64.eqz
+    (i64.and
+     (tee_local $4
+      (if (result i64)
+       (get_local $1)
+       (block (result i64)
+        (set_local $3
+         (i32.add
+          (get_local $1)
+          (i32.const -1077)
+         )
+        )
+        (i64.or
+         (get_local $0)
+         (i64.const 4503599627370496)
+        )
+       )
+       (block (result i64)
+        (set_local $3
+         (i32.const -1076)
+        )
+        (get_local $0)
+       )
+      )
+     )
+     (i64.const 1)
+    )
+   )
+  )
+  (set_local $6
+   (i64.shl
+    (get_local $4)
+    (i64.const 2)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i64.ne
+      (get_local $0)
+      (i64.const 0)
+     )
+    )
+   )
+   (set_local $2
+    (i32.le_s
+     (get_local $1)
+     (i32.const 1)
+    )
+   )
+  )
+  (set_local $11
+   (i64.extend_u/i32
+    (get_local $2)
+   )
+  )
+  (if
+   (i32.ge_s
+    (get_local $3)
+    (i32.const 0)
+   )
+   (block
+    (set_local $13
+     (tee_local $2
+      (i32.sub
+       (i32.shr_u
+        (i32.mul
+         (get_local $3)
+         (i32.const 78913)
+        )
+        (i32.const 18)
+       )
+       (i32.gt_s
+        (get_local $3)
+        (i32.const 3)
+       )
+      )
+     )
+    )
+    (set_local $0
+     (call $~lib/internal/dtoa/mulShift64
+      (get_local $6)
+      (tee_local $4
+       (i64.load offset=8
+        (i32.add
+         (tee_local $9
+          (i32.load
+           (i32.const 9592)
+          )
+         )
+         (i32.shl
+          (get_local $2)
+          (i32.const 4)
+         )
+        )
+       )
+      )
+      (tee_local $10
+       (i64.load offset=8
+        (i32.add
+         (get_local $9)
+         (i32.shl
+          (i32.add
+           (i32.shl
+            (get_local $2)
+            (i32.const 1)
+           )
+           (i32.const 1)
+          )
+          (i32.const 3)
+         )
+        )
+       )
+      )
+      (tee_local $3
+       (i32.add
+        (i32.add
+         (i32.sub
+          (get_local $2)
+          (get_local $3)
+         )
+         (i32.shr_u
+          (i32.mul
+           (get_local $2)
+           (i32.const 1217359)
+          )
+          (i32.const 19)
+         )
+        )
+        (i32.const 125)
+       )
+      )
+     )
+    )
+    (set_local $5
+     (call $~lib/internal/dtoa/mulShift64
+      (i64.add
+       (get_local $6)
+       (i64.const 2)
+      )
+      (get_local $4)
+      (get_local $10)
+      (get_local $3)
+     )
+    )
+    (set_local $4
+     (call $~lib/internal/dtoa/mulShift64
+      (i64.sub
+       (i64.sub
+        (get_local $6)
+        (i64.const 1)
+       )
+       (get_local $11)
+      )
+      (get_local $4)
+      (get_local $10)
+      (get_local $3)
+     )
+    )
+    (if
+     (i32.le_s
+      (get_local $2)
+      (i32.const 21)
+     )
+     (if
+      (i64.eqz
+       (i64.rem_u
+        (get_local $6)
+        (i64.const 5)
+       )
+      )
+      (set_local $7
+       (i32.ge_s
+        (call $~lib/internal/dtoa/pow5Factor
+         (get_local $6)
+        )
+        (get_local $2)
+       )
+      )
+      (if
+       (get_local $12)
+       (set_local $8
+        (i32.ge_s
+         (call $~lib/internal/dtoa/pow5Factor
+          (i64.sub
+           (i64.sub
+            (get_local $6)
+            (i64.const 1)
+           )
+           (get_local $11)
+          )
+         )
+         (get_local $2)
+        )
+       )
+       (set_local $5
+        (i64.sub
+         (get_local $5)
+         (i64.extend_u/i32
+          (i32.ge_s
+           (call $~lib/internal/dtoa/pow5Factor
+            (i64.add
+             (get_local $6)
+             (i64.const 2)
+            )
+           )
+           (get_local $2)
+          )
+         )
+        )
+       )
+      )
+     )
+    )
+   )
+   (block
+    (set_local $13
+     (i32.add
+      (tee_local $9
+       (i32.sub
+        (i32.shr_u
+         (i32.mul
+          (i32.sub
+           (i32.const 0)
+           (get_local $3)
+          )
+          (i32.const 732923)
+         )
+         (i32.const 20)
+        )
+        (i32.gt_s
+         (tee_local $1
+          (i32.sub
+           (i32.const 0)
+           (get_local $3)
+          )
+         )
+         (i32.const 1)
+        )
+       )
+      )
+      (get_local $3)
+     )
+    )
+    (set_local $2
+     (i32.add
+      (i32.shr_u
+       (i32.mul
+        (tee_local $3
+         (i32.sub
+          (get_local $1)
+          (get_local $9)
+         )
+        )
+        (i32.const 1217359)
+       )
+       (i32.const 19)
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $0
+     (call $~lib/internal/dtoa/mulShift64
+      (get_local $6)
+      (tee_local $10
+       (i64.load offset=8
+        (i32.add
+         (tee_local $1
+          (i32.load
+           (i32.const 17792)
+          )
+         )
+         (i32.shl
+          (get_local $3)
+          (i32.const 4)
+         )
+        )
+       )
+      )
+      (tee_local $4
+       (i64.load offset=8
+        (i32.add
+         (get_local $1)
+         (i32.shl
+          (i32.add
+           (i32.shl
+            (get_local $3)
+            (i32.const 1)
+           )
+           (i32.const 1)
+          )
+          (i32.const 3)
+         )
+        )
+       )
+      )
+      (tee_local $2
+       (i32.add
+        (i32.sub
+         (get_local $9)
+         (get_local $2)
+        )
+        (i32.const 125)
+       )
+      )
+     )
+    )
+    (set_local $5
+     (call $~lib/internal/dtoa/mulShift64
+      (i64.add
+       (get_local $6)
+       (i64.const 2)
+      )
+      (get_local $10)
+      (get_local $4)
+      (get_local $2)
+     )
+    )
+    (set_local $4
+     (call $~lib/internal/dtoa/mulShift64
+      (i64.sub
+       (i64.sub
+        (get_local $6)
+        (i64.const 1)
+       )
+       (get_local $11)
+      )
+      (get_local $10)
+      (get_local $4)
+      (get_local $2)
+     )
+    )
+    (if
+     (i32.le_s
+      (get_local $9)
+      (i32.const 1)
+     )
+     (block
+      (set_local $7
+       (i32.const 1)
+      )
+      (if
+       (get_local $12)
+       (set_local $8
+        (i64.eq
+         (get_local $11)
+         (i64.const 1)
+        )
+       )
+       (set_local $5
+        (i64.sub
+         (get_local $5)
+         (i64.const 1)
+        )
+       )
+      )
+     )
+     (if
+      (i32.lt_s
+       (get_local $9)
+       (i32.const 63)
+      )
+      (set_local $7
+       (i64.eqz
+        (i64.and
+         (get_local $6)
+         (i64.sub
+          (i64.shl
+           (i64.const 1)
+           (i64.extend_s/i32
+            (get_local $9)
+           )
+          )
+          (i64.const 1)
+         )
+        )
+       )
+      )
+     )
+    )
+   )
+  )
+  (set_local $3
+   (i32.const 0)
+  )
+  (set_local $2
+   (i32.const 0)
+  )
+  (if
+   (tee_local $1
+    (if (result i32)
+     (get_local $8)
+     (get_local $8)
+     (get_local $7)
+    )
+   )
+   (block
+    (loop $continue|0
+     (if
+      (i64.gt_u
+       (i64.div_u
+        (get_local $5)
+        (i64.const 10)
+       )
+       (i64.div_u
+        (get_local $4)
+        (i64.const 10)
+       )
+      )
+      (block
+       (if
+        (get_local $8)
+        (set_local $8
+         (i64.eqz
+          (i64.rem_u
+           (get_local $4)
+           (i64.const 10)
+          )
+         )
+        )
+       )
+       (if
+        (get_local $7)
+        (set_local $7
+         (i32.eqz
+          (get_local $2)
+         )
+        )
+       )
+       (set_local $2
+        (i32.wrap/i64
+         (i64.rem_u
+          (get_local $0)
+          (i64.const 10)
+         )
+        )
+       )
+       (set_local $0
+        (i64.div_u
+         (get_local $0)
+         (i64.const 10)
+        )
+       )
+       (set_local $5
+        (i64.div_u
+         (get_local $5)
+         (i64.const 10)
+        )
+       )
+       (set_local $4
+        (i64.div_u
+         (get_local $4)
+         (i64.const 10)
+        )
+       )
+       (set_local $3
+        (i32.add
+         (get_local $3)
+         (i32.const 1)
+        )
+       )
+       (br $continue|0)
+      )
+     )
+    )
+    (if
+     (get_local $8)
+     (loop $continue|1
+      (if
+       (i64.eqz
+        (i64.rem_u
+         (get_local $4)
+         (i64.const 10)
+        )
+       )
+       (block
+        (if
+         (get_local $7)
+         (set_local $7
+          (i32.eqz
+           (get_local $2)
+          )
+         )
+        )
+        (set_local $2
+         (i32.wrap/i64
+          (i64.rem_u
+           (get_local $0)
+           (i64.const 10)
+          )
+         )
+        )
+        (set_local $0
+         (i64.div_u
+          (get_local $0)
+          (i64.const 10)
+         )
+        )
+        (set_local $5
+         (i64.div_u
+          (get_local $5)
+          (i64.const 10)
+         )
+        )
+        (set_local $4
+         (i64.div_u
+          (get_local $4)
+          (i64.const 10)
+         )
+        )
+        (set_local $3
+         (i32.add
+          (get_local $3)
+          (i32.const 1)
+         )
+        )
+        (br $continue|1)
+       )
+      )
+     )
+    )
+    (if
+     (tee_local $1
+      (if (result i32)
+       (get_local $7)
+       (i32.eq
+        (get_local $2)
+        (i32.const 5)
+       )
+       (get_local $7)
+      )
+     )
+     (set_local $1
+      (i64.eqz
+       (i64.and
+        (get_local $0)
+        (i64.const 1)
+       )
+      )
+     )
+    )
+    (if
+     (get_local $1)
+     (set_local $2
+      (i32.const 4)
+     )
+    )
+    (if
+     (tee_local $1
+      (i64.eq
+       (get_local $0)
+       (get_local $4)
+      )
+     )
+     (if
+      (i32.eqz
+       (tee_local $1
+        (i32.eqz
+         (get_local $12)
+        )
+       )
+      )
+      (set_local $1
+       (i32.eqz
+        (get_local $8)
+       )
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (get_local $1)
+     )
+     (set_local $1
+      (i32.ge_u
+       (get_local $2)
+       (i32.const 5)
+      )
+     )
+    )
+   )
+   (block
+    (loop $continue|2
+     (if
+      (i64.gt_u
+       (i64.div_u
+        (get_local $5)
+        (i64.const 10)
+       )
+       (i64.div_u
+        (get_local $4)
+        (i64.const 10)
+       )
+      )
+      (block
+       (set_local $2
+        (i32.wrap/i64
+         (i64.rem_u
+          (get_local $0)
+          (i64.const 10)
+         )
+        )
+       )
+       (set_local $0
+        (i64.div_u
+         (get_local $0)
+         (i64.const 10)
+        )
+       )
+       (set_local $5
+        (i64.div_u
+         (get_local $5)
+         (i64.const 10)
+        )
+       )
+       (set_local $4
+        (i64.div_u
+         (get_local $4)
+         (i64.const 10)
+        )
+       )
+       (set_local $3
+        (i32.add
+         (get_local $3)
+         (i32.const 1)
+        )
+       )
+       (br $continue|2)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (tee_local $1
+       (i64.eq
+        (get_local $0)
+        (get_local $4)
+       )
+      )
+     )
+     (set_local $1
+      (i32.ge_u
+       (get_local $2)
+       (i32.const 5)
+      )
+     )
+    )
+   )
+  )
+  (set_global $~lib/internal/dtoa/_output
+   (i64.add
+    (get_local $0)
+    (i64.extend_u/i32
+     (get_local $1)
+    )
+   )
+  )
+  (set_global $~lib/internal/dtoa/_exp10
+   (i32.add
+    (get_local $13)
+    (get_local $3)
+   )
+  )
+ )
+ (func $~lib/internal/dtoa/decimalCount (; 77 ;) (; has Stack IR ;) (type $Ii) (param $0 i64) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.const 1)
+  )
+  (loop $continue|0
+   (if
+    (i64.ge_u
+     (get_local $0)
+     (i64.const 10)
+    )
+    (block
+     (set_local $0
+      (i64.div_u
+       (get_local $0)
+       (i64.const 10)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (get_local $1)
+ )
+ (func $~lib/internal/dtoa/writeDigits (; 78 ;) (; has Stack IR ;) (type $iIiv) (param $0 i32) (param $1 i64) (param $2 i32)
+  (loop $continue|0
+   (if
+    (get_local $2)
+    (block
+     (i32.store16
+      (i32.add
+       (get_local $0)
+       (i32.shl
+        (tee_local $2
+         (i32.sub
+          (get_local $2)
+          (i32.const 1)
+         )
+        )
+        (i32.const 1)
+       )
+      )
+      (i32.add
+       (i32.wrap/i64
+        (i64.rem_u
+         (get_local $1)
+         (i64.const 10)
+        )
+       )
+       (i32.const 48)
+      )
+     )
+     (set_local $1
+      (i64.div_u
+       (get_local $1)
+       (i64.const 10)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+ )
+ (func $~lib/internal/dtoa/formatPositional (; 79 ;) (; has Stack IR ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (if
+   (i32.ge_s
+    (get_local $2)
+    (get_local $1)
+   )
+   (block
+    (call $~lib/internal/memory/memmove
+     (tee_local $4
+      (i32.add
+       (i32.add
+        (tee_local $6
+         (call $~lib/internal/string/allocateUnsafe
+          (i32.add
+           (tee_local $4
+            (i32.and
+             (get_local $3)
+             (i32.const 1)
+            )
+           )
+           (get_local $2)
+          )
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.shl
+        (get_local $4)
+        (i32.const 1)
+       )
+      )
+     )
+     (get_local $0)
+     (i32.shl
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (block $break|0
+     (loop $repeat|0
+      (br_if $break|0
+       (i32.ge_s
+        (get_local $1)
+        (get_local $2)
+       )
+      )
+      (i32.store16
+       (i32.add
+        (get_local $4)
+        (i32.shl
+         (get_local $1)
+         (i32.const 1)
+        )
+       )
+       (i32.const 48)
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|0)
+     )
+    )
+   )
+   (if
+    (i32.gt_s
+     (get_local $2)
+     (i32.const 0)
+    )
+    (block
+     (call $~lib/internal/memory/memmove
+      (tee_local $4
+       (i32.add
+        (i32.add
+         (tee_local $6
+          (call $~lib/internal/string/allocateUnsafe
+           (i32.add
+            (i32.add
+             (tee_local $4
+              (i32.and
+               (get_local $3)
+               (i32.const 1)
+              )
+             )
+             (get_local $1)
+            )
+            (i32.const 1)
+           )
+          )
+         )
+         (i32.const 4)
+        )
+        (i32.shl
+         (get_local $4)
+         (i32.const 1)
+        )
+       )
+      )
+      (get_local $0)
+      (i32.shl
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (i32.store16
+      (i32.add
+       (get_local $4)
+       (tee_local $5
+        (i32.shl
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+      (i32.const 46)
+     )
+     (call $~lib/internal/memory/memmove
+      (i32.add
+       (get_local $4)
+       (i32.shl
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+        (i32.const 1)
+       )
+      )
+      (i32.add
+       (get_local $0)
+       (get_local $5)
+      )
+      (i32.shl
+       (i32.sub
+        (get_local $1)
+        (get_local $2)
+       )
+       (i32.const 1)
+      )
+     )
+    )
+    (block
+     (i32.store
+      (tee_local $4
+       (i32.add
+        (i32.add
+         (tee_local $6
+          (call $~lib/internal/string/allocateUnsafe
+           (i32.add
+            (i32.sub
+             (i32.add
+              (tee_local $4
+               (i32.and
+                (get_local $3)
+                (i32.const 1)
+               )
+              )
+              (i32.const 2)
+             )
+             (get_local $2)
+            )
+            (get_local $1)
+           )
+          )
+         )
+         (i32.const 4)
+        )
+        (i32.shl
+         (get_local $4)
+         (i32.const 1)
+        )
+       )
+      )
+      (i32.const 3014704)
+     )
+     (block $break|1
+      (loop $repeat|1
+       (br_if $break|1
+        (i32.ge_s
+         (get_local $5)
+         (i32.sub
+          (i32.const 0)
+          (get_local $2)
+         )
+        )
+       )
+       (i32.store16
+        (i32.add
+         (get_local $4)
+         (i32.shl
+          (i32.add
+           (get_local $5)
+           (i32.const 2)
+          )
+          (i32.const 1)
+         )
+        )
+        (i32.const 48)
+       )
+       (set_local $5
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (br $repeat|1)
+      )
+     )
+     (call $~lib/internal/memory/memmove
+      (i32.add
+       (get_local $4)
+       (i32.shl
+        (i32.sub
+         (i32.const 2)
+         (get_local $2)
+        )
+        (i32.const 1)
+       )
+      )
+      (get_local $0)
+      (i32.shl
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $3)
+    (i32.const 1)
+   )
+   (i32.store16 offset=4
+    (get_local $6)
+    (i32.const 45)
+   )
+  )
+  (get_local $6)
+ )
+ (func $~lib/internal/dtoa/formatExponential (; 80 ;) (; has Stack IR ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $3
+   (i32.add
+    (tee_local $6
+     (call $~lib/internal/string/allocateUnsafe
+      (i32.add
+       (i32.add
+        (i32.add
+         (i32.add
+          (tee_local $4
+           (i32.and
+            (get_local $3)
+            (i32.const 1)
+           )
+          )
+          (get_local $1)
+         )
+         (i32.gt_s
+          (get_local $1)
+          (i32.const 1)
+         )
+        )
+        (i32.const 2)
+       )
+       (tee_local $5
+        (call $~lib/internal/dtoa/decimalCount
+         (i64.extend_s/i32
+          (select
+           (get_local $2)
+           (i32.sub
+            (i32.const 0)
+            (get_local $2)
+           )
+           (i32.gt_s
+            (get_local $2)
+            (i32.const 0)
+           )
+          )
+         )
+        )
+       )
+      )
+     )
+    )
+    (i32.const 4)
+   )
+  )
+  (if
+   (get_local $4)
+   (block
+    (i32.store16
+     (get_local $3)
+     (i32.const 45)
+    )
+    (set_local $3
+     (i32.add
+      (get_local $3)
+      (i32.const 2)
+     )
+    )
+   )
+  )
+  (i32.store16
+   (get_local $3)
+   (i32.load16_u
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.add
+    (get_local $3)
+    (i32.const 2)
+   )
+  )
+  (if
+   (i32.gt_s
+    (get_local $1)
+    (i32.const 1)
+   )
+   (block
+    (i32.store16
+     (get_local $3)
+     (i32.const 46)
+    )
+    (call $~lib/internal/memory/memmove
+     (i32.add
+      (get_local $3)
+      (i32.const 2)
+     )
+     (i32.add
+      (get_local $0)
+      (i32.const 2)
+     )
+     (i32.shl
+      (i32.sub
+       (get_local $1)
+       (i32.const 1)
+      )
+      (i32.const 1)
+     )
+    )
+    (set_local $3
+     (i32.add
+      (get_local $3)
+      (i32.shl
+       (get_local $1)
+       (i32.const 1)
+      )
+     )
+    )
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (i32.or
+    (i32.shl
+     (tee_local $0
+      (if (result i32)
+       (i32.lt_s
+        (get_local $2)
+        (i32.const 0)
+       )
+       (i32.const 45)
+       (i32.const 43)
+      )
+     )
+     (i32.const 16)
+    )
+    (i32.const 101)
+   )
+  )
+  (call $~lib/internal/dtoa/writeDigits
+   (i32.add
+    (get_local $3)
+    (i32.const 4)
+   )
+   (i64.extend_s/i32
+    (select
+     (get_local $2)
+     (i32.sub
+      (i32.const 0)
+      (get_local $2)
+     )
+     (i32.gt_s
+      (get_local $2)
+      (i32.const 0)
+     )
+    )
+   )
+   (get_local $5)
+  )
+  (get_local $6)
+ )
+ (func $~lib/internal/dtoa/formatShortest (; 81 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (call $~lib/internal/dtoa/writeDigits
+   (tee_local $2
+    (call $~lib/allocator/arena/__memory_allocate
+     (i32.shl
+      (tee_local $1
+       (call $~lib/internal/dtoa/decimalCount
+        (get_global $~lib/internal/dtoa/_output)
+       )
+      )
+      (i32.const 1)
+     )
+    )
+   )
+   (get_global $~lib/internal/dtoa/_output)
+   (get_local $1)
+  )
+  (if
+   (tee_local $4
+    (i32.gt_s
+     (tee_local $3
+      (i32.add
+       (get_global $~lib/internal/dtoa/_exp10)
+       (get_local $1)
+      )
+     )
+     (i32.const -6)
+    )
+   )
+   (set_local $4
+    (i32.le_s
+     (get_local $3)
+     (i32.const 21)
+    )
+   )
+  )
+  (set_local $0
+   (if (result i32)
+    (get_local $4)
+    (call $~lib/internal/dtoa/formatPositional
+     (get_local $2)
+     (get_local $1)
+     (get_local $3)
+     (get_local $0)
+    )
+    (call $~lib/internal/dtoa/formatExponential
+     (get_local $2)
+     (get_local $1)
+     (i32.sub
+      (get_local $3)
+      (i32.const 1)
+     )
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/allocator/arena/__memory_free)
+  (get_local $0)
+ )
+ (func $~lib/internal/dtoa/dtoa64 (; 82 ;) (; has Stack IR ;) (type $Fi) (param $0 f64) (result i32)
+  (local $1 i64)
+  (if
+   (f64.eq
+    (get_local $0)
+    (f64.const 0)
+   )
+   (return
+    (i32.const 296)
+   )
+  )
+  (if
+   (f64.ne
+    (f64.sub
+     (get_local $0)
+     (get_local $0)
+    )
+    (f64.const 0)
+   )
+   (return
+    (call $~lib/internal/dtoa/formatNonFinite
+     (get_local $0)
+    )
+   )
+  )
+  (call $~lib/internal/dtoa/ryu64
+   (i64.and
+    (tee_local $1
+     (i64.reinterpret/f64
+      (get_local $0)
+     )
+    )
+    (i64.const 4503599627370495)
+   )
+   (i32.and
+    (i32.wrap/i64
+     (i64.shr_u
+      (get_local $1)
+      (i64.const 52)
+     )
+    )
+    (i32.const 2047)
+   )
+  )
+  (call $~lib/internal/dtoa/formatShortest
+   (i32.wrap/i64
+    (i64.shr_u
+     (get_local $1)
+     (i64.const 63)
+    )
+   )
+  )
+ )
+ (func $~lib/internal/dtoa/dtoa<f64> (; 83 ;) (; has Stack IR ;) (type $Fi) (param $0 f64) (result i32)
+  (call $~lib/internal/dtoa/dtoa64
+   (get_local $0)
+  )
+ )
+ (func $~lib/internal/typedarray/TypedArray<f64,f64>#join (; 84 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.shr_s
+      (i32.sub
+       (i32.load offset=8
+        (get_local $0)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (i32.const 3)
+     )
+    )
+   )
+   (return
+    (i32.const 184)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $0
+   (i32.const 184)
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $1)
+      (get_local $2)
+     )
+    )
+    (if
+     (get_local $1)
+     (set_local $0
+      (call $~lib/string/String.__concat
+       (get_local $0)
+       (i32.const 896)
+      )
+     )
+    )
+    (set_local $0
+     (call $~lib/string/String.__concat
+      (get_local $0)
+      (call $~lib/internal/dtoa/dtoa<f64>
+       (f64.load offset=8
+        (i32.add
+         (i32.add
+          (get_local $3)
+          (get_local $4)
+         )
+         (i32.shl
+          (get_local $1)
+          (i32.const 3)
+         )
+        )
+       )
+      )
+     )
+    )
+    (set_local $1
+     (i32.add
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/arraybuffer/reallocateUnsafe (; 85 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.gt_s
+    (get_local $1)
+    (tee_local $2
+     (i32.load
+      (get_local $0)
+     )
+    )
+   )
+   (block
+    (if
+     (i32.gt_s
+      (get_local $1)
+      (i32.const 1073741816)
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 112)
+       (i32.const 37)
+       (i32.const 4)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.le_s
+      (get_local $1)
+      (i32.sub
+       (call $~lib/internal/arraybuffer/computeSize
+        (get_local $2)
+       )
+       (i32.const 8)
+      )
+     )
+     (block
+      (i32.store
+       (get_local $0)
+       (get_local $1)
+      )
+      (call $~lib/internal/memory/memset
+       (i32.add
+        (i32.add
+         (get_local $0)
+         (i32.const 8)
+        )
+        (get_local $2)
+       )
+       (i32.const 0)
+       (i32.sub
+        (get_local $1)
+        (get_local $2)
+       )
+      )
+     )
+     (block
+      (call $~lib/internal/memory/memmove
+       (i32.add
+        (tee_local $3
+         (call $~lib/internal/arraybuffer/allocateUnsafe
+          (get_local $1)
+         )
+        )
+        (i32.const 8)
+       )
+       (i32.add
+        (get_local $0)
+        (i32.const 8)
+       )
+       (get_local $2)
+      )
+      (call $~lib/internal/memory/memset
+       (i32.add
+        (i32.add
+         (get_local $3)
+         (i32.const 8)
+        )
+        (get_local $2)
+       )
+       (i32.const 0)
+       (i32.sub
+        (get_local $1)
+        (get_local $2)
+       )
+      )
+      (return
+       (get_local $3)
+      )
+     )
+    )
+   )
+   (if
+    (i32.lt_s
+     (get_local $1)
+     (get_local $2)
+    )
+    (block
+     (if
+      (i32.lt_s
+       (get_local $1)
+       (i32.const 0)
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 112)
+        (i32.const 61)
+        (i32.const 4)
+       )
+       (unreachable)
+      )
+     )
+     (i32.store
+      (get_local $0)
+      (get_local $1)
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/typedarray/Int32Array#slice (; 86 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $5
+   (call $~lib/internal/typedarray/TypedArray<i32,i32>#constructor
+    (i32.const 0)
+   )
+  )
+  (set_local $4
+   (i32.shr_s
+    (i32.sub
+     (i32.load offset=8
+      (get_local $0)
+     )
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+    (i32.const 2)
+   )
+  )
+  (set_local $1
+   (if (result i32)
+    (i32.lt_s
+     (get_local $1)
+     (i32.const 0)
+    )
+    (select
+     (tee_local $3
+      (i32.add
+       (get_local $4)
+       (get_local $1)
+      )
+     )
+     (i32.const 0)
+     (i32.gt_s
+      (get_local $3)
+      (i32.const 0)
+     )
+    )
+    (select
+     (tee_local $3
+      (get_local $1)
+     )
+     (get_local $4)
+     (i32.lt_s
+      (get_local $1)
+      (get_local $4)
+     )
+    )
+   )
+  )
+  (call $~lib/internal/memory/memmove
+   (tee_local $4
+    (i32.add
+     (tee_local $2
+      (call $~lib/internal/arraybuffer/reallocateUnsafe
+       (i32.load
+        (get_local $5)
+       )
+       (tee_local $3
+        (i32.shl
+         (i32.sub
+          (tee_local $2
+           (if (result i32)
+            (i32.lt_s
+             (get_local $2)
+             (i32.const 0)
+            )
+            (select
+             (tee_local $3
+              (i32.add
+               (get_local $4)
+               (get_local $2)
+              )
+             )
+             (get_local $1)
+             (i32.gt_s
+              (get_local $3)
+              (get_local $1)
+             )
+            )
+            (select
+             (tee_local $3
+              (select
+               (get_local $2)
+               (get_local $4)
+               (i32.lt_s
+                (get_local $2)
+                (get_local $4)
+               )
+              )
+             )
+             (get_local $1)
+             (i32.gt_s
+              (get_local $3)
+              (get_local $1)
+             )
+            )
+           )
+          )
+          (get_local $1)
+         )
+         (i32.const 2)
+        )
+       )
+      )
+     )
+     (i32.const 8)
+    )
+   )
+   (i32.add
+    (i32.add
+     (i32.add
+      (i32.load
+       (get_local $0)
+      )
+      (i32.const 8)
+     )
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+    (i32.shl
+     (get_local $1)
+     (i32.const 2)
+    )
+   )
+   (get_local $3)
+  )
+  (i32.store
+   (get_local $5)
+   (get_local $2)
+  )
+  (i32.store offset=8
+   (get_local $5)
+   (get_local $3)
+  )
+  (get_local $5)
+ )
+ (func $~lib/internal/typedarray/TypedArray<i32,i32>#reverse (; 87 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (block $break|0
+   (set_local $2
+    (i32.sub
+     (i32.shr_s
+      (i32.sub
+       (i32.load offset=8
+        (get_local $0)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (i32.const 2)
+     )
+     (i32.const 1)
+    )
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $1)
+      (get_local $2)
+     )
+    )
+    (set_local $5
+     (i32.load offset=8
+      (i32.add
+       (i32.add
+        (get_local $3)
+        (get_local $4)
+       )
+       (i32.shl
+        (get_local $1)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (i32.store offset=8
+     (i32.add
+      (i32.add
+       (get_local $3)
+       (get_local $4)
+      )
+      (i32.shl
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+     (i32.load offset=8
+      (i32.add
+       (i32.add
+        (get_local $3)
+        (get_local $4)
+       )
+       (i32.shl
+        (get_local $2)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (i32.store offset=8
+     (i32.add
+      (i32.add
+       (get_local $3)
+       (get_local $4)
+      )
+      (i32.shl
+       (get_local $2)
+       (i32.const 2)
+      )
+     )
+     (get_local $5)
+    )
+    (set_local $1
+     (i32.add
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (set_local $2
+     (i32.sub
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $0)
+ )
+ (func $start~anonymous|1 (; 88 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (i32.gt_s
+   (get_local $0)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/typedarray/Int32Array#every (; 89 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (tee_local $0
+   (block $~lib/internal/typedarray/EVERY<Int32Array,i32,i32>|inlined.0 (result i32)
+    (set_local $3
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (set_local $4
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+    (block $break|0
+     (set_local $5
+      (i32.shr_s
+       (i32.sub
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (i32.const 2)
+      )
+     )
+     (loop $repeat|0
+      (br_if $break|0
+       (i32.ge_s
+        (get_local $2)
+        (get_local $5)
+       )
+      )
+      (set_global $~argc
+       (i32.const 3)
+      )
+      (set_local $6
+       (i32.load offset=8
+        (i32.add
+         (i32.add
+          (get_local $3)
+          (get_local $4)
+         )
+         (i32.shl
+          (get_local $2)
+          (i32.const 2)
+         )
+        )
+       )
+      )
+      (set_global $~env
+       (get_local $1)
+      )
+      (drop
+       (br_if $~lib/internal/typedarray/EVERY<Int32Array,i32,i32>|inlined.0
+        (i32.const 0)
+        (i32.eqz
+         (i32.and
+          (call_indirect (type $iiii)
+           (get_local $6)
+           (get_local $2)
+           (get_local $0)
+           (i32.load
+            (get_global $~env)
+           )
+          )
+          (i32.const 1)
+         )
+        )
+       )
+      )
+      (set_local $2
+       (i32.add
+        (get_local $2)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|0)
+     )
+    )
+    (i32.const 1)
+   )
+  )
+ )
+ (func $start~anonymous|2 (; 90 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (i32.gt_s
+   (get_local $0)
+   (i32.const 1)
+  )
+ )
+ (func $start~anonymous|3 (; 91 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (i32.eq
+   (get_local $0)
+   (i32.const 3)
+  )
+ )
+ (func $~lib/typedarray/Int32Array#some (; 92 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (tee_local $0
+   (block $~lib/internal/typedarray/SOME<Int32Array,i32,i32>|inlined.0 (result i32)
+    (set_local $3
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (set_local $4
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+    (block $break|0
+     (set_local $5
+      (i32.shr_s
+       (i32.sub
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (i32.const 2)
+      )
+     )
+     (loop $repeat|0
+      (br_if $break|0
+       (i32.ge_s
+        (get_local $2)
+        (get_local $5)
+       )
+      )
+      (set_global $~argc
+       (i32.const 3)
+      )
+      (set_local $6
+       (i32.load offset=8
+        (i32.add
+         (i32.add
+          (get_local $3)
+          (get_local $4)
+         )
+         (i32.shl
+          (get_local $2)
+          (i32.const 2)
+         )
+        )
+       )
+      )
+      (set_global $~env
+       (get_local $1)
+      )
+      (drop
+       (br_if $~lib/internal/typedarray/SOME<Int32Array,i32,i32>|inlined.0
+        (i32.const 1)
+        (i32.and
+         (call_indirect (type $iiii)
+          (get_local $6)
+          (get_local $2)
+          (get_local $0)
+          (i32.load
+           (get_global $~env)
+          )
+         )
+         (i32.const 1)
+        )
+       )
+      )
+      (set_local $2
+       (i32.add
+        (get_local $2)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|0)
+     )
+    )
+    (i32.const 0)
+   )
+  )
+ )
+ (func $start~anonymous|4 (; 93 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (i32.eq
+   (get_local $0)
+   (i32.const 4)
+  )
+ )
+ (func $start~anonymous|5 (; 94 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (set_global $std/typedarray/sum
+   (i32.add
+    (get_global $std/typedarray/sum)
+    (i32.mul
+     (get_local $0)
+     (get_local $1)
+    )
+   )
+  )
+ )
+ (func $~lib/typedarray/Int32Array#forEach (; 95 ;) (; has Stack IR ;) (type $FUNCSIG$vi) (param $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $2
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (block $break|0
+   (set_local $4
+    (i32.shr_s
+     (i32.sub
+      (i32.load offset=8
+       (get_local $0)
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.const 2)
+    )
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $1)
+      (get_local $4)
+     )
+    )
+    (set_global $~argc
+     (i32.const 3)
+    )
+    (set_local $5
+     (i32.load offset=8
+      (i32.add
+       (i32.add
+        (get_local $2)
+        (get_local $3)
+       )
+       (i32.shl
+        (get_local $1)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (set_global $~env
+     (i32.const 17896)
+    )
+    (call_indirect (type $iiiv)
+     (get_local $5)
+     (get_local $1)
+     (get_local $0)
+     (i32.load
+      (get_global $~env)
+     )
+    )
+    (set_local $1
+     (i32.add
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $start~anonymous|6 (; 96 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (i32.shl
+   (get_local $0)
+   (i32.const 1)
+  )
+ )
+ (func $~lib/typedarray/Int32Array#map (; 97 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $2
+   (call $~lib/internal/typedarray/TypedArray<i32,i32>#constructor
+    (i32.shr_s
+     (i32.sub
+      (i32.load offset=8
+       (get_local $0)
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.const 2)
+    )
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $5
+   (i32.load
+    (get_local $2)
+   )
+  )
+  (block $break|0
+   (set_local $6
+    (i32.shr_s
+     (i32.sub
+      (i32.load offset=8
+       (get_local $0)
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.const 2)
+    )
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $1)
+      (get_local $6)
+     )
+    )
+    (set_global $~argc
+     (i32.const 3)
+    )
+    (set_local $8
+     (i32.load offset=8
+      (i32.add
+       (i32.add
+        (get_local $3)
+        (get_local $4)
+       )
+       (tee_local $7
+        (i32.shl
+         (get_local $1)
+         (i32.const 2)
+        )
+       )
+      )
+     )
+    )
+    (set_global $~env
+     (i32.const 17904)
+    )
+    (i32.store offset=8
+     (i32.add
+      (get_local $5)
+      (get_local $7)
+     )
+     (call_indirect (type $iiii)
+      (get_local $8)
+      (get_local $1)
+      (get_local $0)
+      (i32.load
+       (get_global $~env)
+      )
+     )
+    )
+    (set_local $1
+     (i32.add
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $2)
+ )
+ (func $start~anonymous|7 (; 98 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (i32.ge_s
+   (get_local $0)
+   (i32.const 2)
+  )
+ )
+ (func $~lib/typedarray/Int32Array#filter (; 99 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (set_local $1
+   (call $~lib/internal/typedarray/TypedArray<i32,i32>#constructor
+    (i32.const 0)
+   )
+  )
+  (set_local $6
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $7
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $3
+   (call $~lib/internal/arraybuffer/reallocateUnsafe
+    (i32.load
+     (get_local $1)
+    )
+    (i32.shl
+     (tee_local $8
+      (i32.shr_s
+       (i32.sub
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (i32.const 2)
+      )
+     )
+     (i32.const 2)
+    )
+   )
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (get_local $8)
+     )
+    )
+    (set_local $4
+     (i32.load offset=8
+      (i32.add
+       (i32.add
+        (get_local $6)
+        (get_local $7)
+       )
+       (i32.shl
+        (get_local $2)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (set_global $~argc
+     (i32.const 3)
+    )
+    (set_global $~env
+     (i32.const 17936)
+    )
+    (if
+     (i32.and
+      (call_indirect (type $iiii)
+       (get_local $4)
+       (get_local $2)
+       (get_local $0)
+       (i32.load
+        (get_global $~env)
+       )
+      )
+      (i32.const 1)
+     )
+     (block
+      (set_local $5
+       (i32.add
+        (tee_local $9
+         (get_local $5)
+        )
+        (i32.const 1)
+       )
+      )
+      (i32.store offset=8
+       (i32.add
+        (get_local $3)
+        (i32.shl
+         (get_local $9)
+         (i32.const 2)
+        )
+       )
+       (get_local $4)
+      )
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (i32.store
+   (get_local $1)
+   (call $~lib/internal/arraybuffer/reallocateUnsafe
+    (get_local $3)
+    (tee_local $0
+     (i32.shl
+      (get_local $5)
+      (i32.const 2)
+     )
+    )
+   )
+  )
+  (i32.store offset=8
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $start~anonymous|8 (; 100 ;) (; has Stack IR ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (i32.add
+   (i32.mul
+    (get_local $0)
+    (i32.const 10)
+   )
+   (get_local $1)
+  )
+ )
+ (func $~lib/typedarray/Int32Array#reduce<i32> (; 101 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (block $break|0
+   (set_local $5
+    (i32.shr_s
+     (i32.sub
+      (i32.load offset=8
+       (get_local $0)
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.const 2)
+    )
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $1)
+      (get_local $5)
+     )
+    )
+    (set_global $~argc
+     (i32.const 4)
+    )
+    (set_local $6
+     (i32.load offset=8
+      (i32.add
+       (i32.add
+        (get_local $3)
+        (get_local $4)
+       )
+       (i32.shl
+        (get_local $1)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (set_global $~env
+     (i32.const 17944)
+    )
+    (set_local $2
+     (call_indirect (type $iiiii)
+      (get_local $2)
+      (get_local $6)
+      (get_local $1)
+      (get_local $0)
+      (i32.load
+       (get_global $~env)
+      )
+     )
+    )
+    (set_local $1
+     (i32.add
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $2)
+ )
+ (func $~lib/array/Array<f32>#__unchecked_get (; 102 ;) (; has Stack IR ;) (type $iif) (param $0 i32) (param $1 i32) (result f32)
+  (f32.load offset=8
+   (i32.add
+    (i32.load
+     (get_local $0)
+    )
+    (i32.shl
+     (get_local $1)
+     (i32.const 2)
+    )
+   )
+  )
+ )
+ (func $~lib/internal/typedarray/TypedArray<f32,f32>#set<Array<f32>> (; 103 ;) (; has Stack IR ;) (type $FUNCSIG$vii) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (i32.load offset=4
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.gt_u
+      (i32.const 0)
+      (i32.shr_s
+       (i32.sub
+        (i32.load offset=8
+         (get_local $0)
+        )
+        (i32.load offset=4
+         (get_local $0)
+        )
+       )
+       (i32.const 2)
+      )
+     )
+    )
+   )
+   (set_local $2
+    (i32.gt_s
+     (get_local $3)
+     (i32.shr_s
+      (i32.sub
+       (i32.load offset=8
+        (get_local $0)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (i32.const 2)
+     )
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 48)
+     (i32.const 101)
+     (i32.const 6)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $4
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $0
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (block $break|0
+   (set_local $2
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (get_local $3)
+     )
+    )
+    (f32.store offset=8
+     (i32.add
+      (i32.add
+       (get_local $4)
+       (get_local $0)
+      )
+      (i32.shl
+       (get_local $2)
+       (i32.const 2)
+      )
+     )
+     (call $~lib/array/Array<f32>#__unchecked_get
+      (get_local $1)
+      (get_local $2)
+     )
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+ )
+ (func $~lib/typedarray/Float32Array.from<Array<f32>> (; 104 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/internal/typedarray/TypedArray<f32,f32>#set<Array<f32>>
+   (tee_local $1
+    (call $~lib/internal/typedarray/TypedArray<f32,f32>#constructor
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+   )
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $~lib/typedarray/Float32Array.of (; 105 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (call $~lib/typedarray/Float32Array.from<Array<f32>>
+   (i32.const 17984)
+  )
+ )
+ (func $start~anonymous|9 (; 106 ;) (; has Stack IR ;) (type $FfiiF) (param $0 f64) (param $1 f32) (param $2 i32) (param $3 i32) (result f64)
+  (f64.div
+   (get_local $0)
+   (f64.promote/f32
+    (get_local $1)
+   )
+  )
+ )
+ (func $~lib/typedarray/Float32Array#reduceRight<f64> (; 107 ;) (; has Stack IR ;) (type $FUNCSIG$di) (param $0 i32) (result f64)
+  (local $1 i32)
+  (local $2 f64)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 f32)
+  (set_local $2
+   (f64.const 16)
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (block $break|0
+   (set_local $1
+    (i32.sub
+     (i32.shr_s
+      (i32.sub
+       (i32.load offset=8
+        (get_local $0)
+       )
+       (i32.load offset=4
+        (get_local $0)
+       )
+      )
+      (i32.const 2)
+     )
+     (i32.const 1)
+    )
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.lt_s
+      (get_local $1)
+      (i32.const 0)
+     )
+    )
+    (set_global $~argc
+     (i32.const 4)
+    )
+    (set_local $5
+     (f32.load offset=8
+      (i32.add
+       (i32.add
+        (get_local $3)
+        (get_local $4)
+       )
+       (i32.shl
+        (get_local $1)
+        (i32.const 2)
+       )
+      )
+     )
+    )
+    (set_global $~env
+     (i32.const 17992)
+    )
+    (set_local $2
+     (call_indirect (type $FfiiF)
+      (get_local $2)
+      (get_local $5)
+      (get_local $1)
+      (get_local $0)
+      (i32.load
+       (get_global $~env)
+      )
+     )
+    )
+    (set_local $1
+     (i32.sub
+      (get_local $1)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $2)
+ )
+ (func $~lib/internal/typedarray/TypedArray<i32,i32>#fill (; 108 ;) (; has Stack IR ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (set_local $6
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (set_local $7
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.shr_s
+    (i32.sub
+     (i32.load offset=8
+      (get_local $0)
+     )
+     (i32.load offset=4
+      (get_local $0)
+     )
+    )
+    (i32.const 2)
+   )
+  )
+  (set_local $2
+   (if (result i32)
+    (i32.lt_s
+     (get_local $2)
+     (i32.const 0)
+    )
+    (select
+     (tee_local $5
+      (i32.add
+       (get_local $4)
+       (get_local $2)
+      )
+     )
+     (i32.const 0)
+     (i32.gt_s
+      (get_local $5)
+      (i32.const 0)
+     )
+    )
+    (select
+     (tee_local $5
+      (get_local $2)
+     )
+     (get_local $4)
+     (i32.lt_s
+      (get_local $2)
+      (get_local $4)
+     )
+    )
+   )
+  )
+  (set_local $3
+   (if (result i32)
+    (i32.lt_s
+     (get_local $3)
+     (i32.const 0)
+    )
+    (select
+     (tee_local $5
+      (i32.add
+       (get_local $4)
+       (get_local $3)
+      )
+     )
+     (i32.const 0)
+     (i32.gt_s
+      (get_local $5)
+      (i32.const 0)
+     )
+    )
+    (select
+     (tee_local $5
+      (get_local $3)
+     )
+     (get_local $4)
+     (i32.lt_s
+      (get_local $3)
+      (get_local $4)
+     )
+    )
+   )
+  )
+  (block $break|0
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_s
+      (get_local $2)
+      (get_local $3)
+     )
+    )
+    (i32.store offset=8
+     (i32.add
+      (i32.add
+       (get_local $6)
+       (get_local $7)
+      )
+      (i32.shl
+       (get_local $2)
+       (i32.const 2)
+      )
+     )
+     (get_local $1)
+    )
+    (set_local $2
+     (i32.add
+      (get_local $2)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/internal/typedarray/TypedArray<i8,i32>#fill|virtual (; 109 ;) (; has Stack IR ;) (type $iiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (drop
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (call $~lib/internal/typedarray/TypedArray<u8,u32>#fill
+   (get_local $0)
+   (get_local $1)
+   (get_local $2)
+   (get_local $3)
+  )
+ )
+ (func $~lib/internal/typedarray/TypedArray<i32,i32>#fill|virtual (; 110 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (drop
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (call $~lib/internal/typedarray/TypedArray<i32,i32>#fill
+   (get_local $0)
+   (i32.const 7)
+   (i32.const -2)
+   (i32.const 2147483647)
+  )
+ )
+ (func $start (; 111 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (set_global $~lib/allocator/arena/startOffset
+   (i32.const 18352)
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_global $~lib/allocator/arena/startOffset)
+  )
+  (call $std/typedarray/testInstantiate
+   (i32.const 0)
+  )
+  (call $std/typedarray/testInstantiate
+   (i32.const 5)
+  )
+  (set_global $std/typedarray/arr
+   (call $~lib/internal/typedarray/TypedArray<i32,i32>#constructor
+    (i32.const 3)
+   )
+  )
+  (call $~lib/internal/typedarray/TypedArray<i32,i32>#__set
+   (get_global $std/typedarray/arr)
+   (i32.const 0)
+   (i32.const 1)
+  )
+  (call $~lib/internal/typedarray/TypedArray<i32,i32>#__set
+   (get_global $std/typedarray/arr)
+   (i32.const 1)
+   (i32.const 2)
+  )
+  (call $~lib/internal/typedarray/TypedArray<i32,i32>#__set
+   (get_global $std/typedarray/arr)
+   (i32.const 2)
+   (i32.const 3)
+  )
+  (if
+   (i32.ne
+    (i32.shr_s
+     (i32.sub
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/typedarray/arr)
+       )
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.const 2)
+    )
+    (i32.const 3)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 80)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.load offset=4
+    (get_global $std/typedarray/arr)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 81)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=8
+     (get_global $std/typedarray/arr)
+    )
+    (i32.const 12)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 82)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/internal/typedarray/TypedArray<i32,i32>#__get
+     (get_global $std/typedarray/arr)
+     (i32.const 0)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 83)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/internal/typedarray/TypedArray<i32,i32>#__get
+     (get_global $std/typedarray/arr)
+     (i32.const 1)
+    )
+    (i32.const 2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 84)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/internal/typedarray/TypedArray<i32,i32>#__get
+     (get_global $std/typedarray/arr)
+     (i32.const 2)
+    )
+    (i32.const 3)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 85)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/typedarray/arr
+   (call $~lib/typedarray/Int32Array#subarray
+    (get_global $std/typedarray/arr)
+    (i32.const 1)
+    (i32.const 2)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.shr_s
+     (i32.sub
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/typedarray/arr)
+       )
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.const 2)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 88)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_global $std/typedarray/arr)
+    )
+    (i32.const 4)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 89)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=8
+     (get_global $std/typedarray/arr)
+    )
+    (i32.const 8)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 90)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/internal/typedarray/TypedArray<i32,i32>#__get
+     (get_global $std/typedarray/arr)
+     (i32.const 0)
+    )
+    (i32.const 2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 91)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/typedarray/sub
+   (call $~lib/typedarray/Int32Array#subarray
+    (get_global $std/typedarray/arr)
+    (i32.const 0)
+    (i32.const 1)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.shr_s
+     (i32.sub
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/typedarray/sub)
+       )
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.const 2)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 94)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load offset=4
+     (get_global $std/typedarray/sub)
+    )
+    (i32.const 4)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 95)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/internal/typedarray/TypedArray<i32,i32>#__get
+     (get_global $std/typedarray/sub)
+     (i32.const 0)
+    )
+    (i32.const 2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 96)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.load
+     (i32.sub
+      (get_global $std/typedarray/sub)
+      (i32.const 4)
+     )
+    )
+    (i32.load
+     (i32.sub
+      (call $~lib/internal/typedarray/TypedArray<i32,i32>#constructor
+       (i32.const 0)
+      )
+      (i32.const 4)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 97)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/typedarray/af64
+   (call $~lib/internal/typedarray/TypedArray<f64,f64>#constructor
+    (i32.const 8)
+   )
+  )
+  (call $~lib/internal/typedarray/TypedArray<f64,f64>#__set
+   (get_global $std/typedarray/af64)
+   (i32.const 0)
+   (f64.const 1)
+  )
+  (call $~lib/internal/typedarray/TypedArray<f64,f64>#__set
+   (get_global $std/typedarray/af64)
+   (i32.const 1)
+   (f64.const 2)
+  )
+  (call $~lib/internal/typedarray/TypedArray<f64,f64>#__set
+   (get_global $std/typedarray/af64)
+   (i32.const 2)
+   (f64.const 7)
+  )
+  (call $~lib/internal/typedarray/TypedArray<f64,f64>#__set
+   (get_global $std/typedarray/af64)
+   (i32.const 3)
+   (f64.const 6)
+  )
+  (call $~lib/internal/typedarray/TypedArray<f64,f64>#__set
+   (get_global $std/typedarray/af64)
+   (i32.const 4)
+   (f64.const 5)
+  )
+  (call $~lib/internal/typedarray/TypedArray<f64,f64>#__set
+   (get_global $std/typedarray/af64)
+   (i32.const 5)
+   (f64.const 4)
+  )
+  (call $~lib/internal/typedarray/TypedArray<f64,f64>#__set
+   (get_global $std/typedarray/af64)
+   (i32.const 6)
+   (f64.const 3)
+  )
+  (call $~lib/internal/typedarray/TypedArray<f64,f64>#__set
+   (get_global $std/typedarray/af64)
+   (i32.const 7)
+   (f64.const 8)
+  )
+  (set_global $std/typedarray/af64
+   (call $~lib/typedarray/Float64Array#subarray
+    (get_global $std/typedarray/af64)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.shr_s
+     (i32.sub
+      (i32.load offset=8
+       (tee_local $0
+        (get_global $std/typedarray/af64)
+       )
+      )
+      (i32.load offset=4
+       (get_local $0)
+      )
+     )
+     (i32.const 3)
+    )
+    (i32.const 4)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 111)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $~argc
+   (i32.const 0)
+  )
+  (drop
+   (call $~lib/internal/typedarray/TypedArray<f64,f64>#sort|trampoline
+    (get_global $std/typedarray/af64)
+   )
+  )
+  (if
+   (tee_local $0
+    (f64.eq
+     (call $~lib/internal/typedarray/TypedArray<f64,f64>#__get
+      (get_global $std/typedarray/af64)
+      (i32.const 0)
+     )
+     (f64.const 4)
+    )
+   )
+   (set_local $0
+    (f64.eq
+     (call $~lib/internal/typedarray/TypedArray<f64,f64>#__get
+      (get_global $std/typedarray/af64)
+      (i32.const 1)
+     )
+     (f64.const 5)
+    )
+   )
+  )
+  (if
+   (get_local $0)
+   (set_local $0
+    (f64.eq
+     (call $~lib/internal/typedarray/TypedArray<f64,f64>#__get
+      (get_global $std/typedarray/af64)
+      (i32.const 2)
+     )
+     (f64.const 6)
+    )
+   )
+  )
+  (if
+   (get_local $0)
+   (set_local $0
+    (f64.eq
+     (call $~lib/internal/typedarray/TypedArray<f64,f64>#__get
+      (get_global $std/typedarray/af64)
+      (i32.const 3)
+     )
+     (f64.const 7)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 113)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/typedarray/clampedArr
+   (call $~lib/internal/typedarray/TypedArray<u8,u32>#constructor
+    (i32.const 3)
+   )
+  )
+  (call $~lib/typedarray/Uint8ClampedArray#__set
+   (get_global $std/typedarray/clampedArr)
+   (i32.const 0)
+   (i32.const -32)
+  )
+  (call $~lib/typedarray/Uint8ClampedArray#__set
+   (get_global $std/typedarray/clampedArr)
+   (i32.const 1)
+   (i32.const 2)
+  )
+  (call $~lib/typedarray/Uint8ClampedArray#__set
+   (get_global $std/typedarray/clampedArr)
+   (i32.const 2)
+   (i32.const 256)
+  )
+  (if
+   (i32.and
+    (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
+     (get_global $std/typedarray/clampedArr)
+     (i32.const 0)
+    )
+    (i32.const 255)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 120)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.and
+     (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
+      (get_global $std/typedarray/clampedArr)
+      (i32.const 1)
+     )
+     (i32.const 255)
+    )
+    (i32.const 2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 121)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.and
+     (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
+      (get_global $std/typedarray/clampedArr)
+      (i32.const 2)
+     )
+     (i32.const 255)
+    )
+    (i32.const 255)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 122)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (drop
+   (call $~lib/internal/typedarray/TypedArray<f64,f64>#constructor
+    (i32.const 134217727)
+   )
+  )
+  (set_global $std/typedarray/i8a
+   (call $~lib/internal/typedarray/TypedArray<i8,i32>#constructor
+    (i32.const 5)
+   )
+  )
+  (drop
+   (call $~lib/internal/typedarray/TypedArray<i8,i32>#fill|virtual
+    (get_global $std/typedarray/i8a)
+    (i32.const 1)
+    (i32.const 0)
+    (i32.const 2147483647)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/internal/typedarray/TypedArray<i8,i32>#join
+      (get_global $std/typedarray/i8a)
+     )
+     (i32.const 904)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 134)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (drop
+   (call $~lib/internal/typedarray/TypedArray<i8,i32>#fill|virtual
+    (get_global $std/typedarray/i8a)
+    (i32.const -2)
+    (i32.const 1)
+    (i32.const -1)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/internal/typedarray/TypedArray<i8,i32>#join
+      (get_global $std/typedarray/i8a)
+     )
+     (i32.const 928)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 136)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/typedarray/i32a
+   (call $~lib/internal/typedarray/TypedArray<i32,i32>#constructor
+    (i32.const 5)
+   )
+  )
+  (drop
+   (call $~lib/internal/typedarray/TypedArray<i32,i32>#fill|virtual
+    (get_global $std/typedarray/i32a)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/internal/typedarray/TypedArray<i32,i32>#join
+      (get_global $std/typedarray/i32a)
+      (i32.const 960)
+     )
+     (i32.const 968)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 140)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/internal/typedarray/TypedArray<i32,i32>#set<Array<i32>>
+   (get_global $std/typedarray/i32a)
+   (i32.const 1024)
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/internal/typedarray/TypedArray<i32,i32>#join
+      (get_global $std/typedarray/i32a)
+      (i32.const 896)
+     )
+     (i32.const 1032)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 142)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/internal/typedarray/TypedArray<i32,i32>#set<Int32Array>
+   (get_global $std/typedarray/i32a)
+   (call $~lib/typedarray/Int32Array.of)
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/internal/typedarray/TypedArray<i32,i32>#join
+      (get_global $std/typedarray/i32a)
+      (i32.const 896)
+     )
+     (i32.const 1080)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 144)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (drop
+   (call $~lib/internal/typedarray/TypedArray<i32,i32>#copyWithin
+    (get_global $std/typedarray/i32a)
+    (i32.const 0)
+    (i32.const 3)
+    (i32.const 2147483647)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/internal/typedarray/TypedArray<i32,i32>#join
+      (get_global $std/typedarray/i32a)
+      (i32.const 896)
+     )
+     (i32.const 1104)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 146)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (drop
+   (call $~lib/internal/typedarray/TypedArray<i32,i32>#copyWithin
+    (get_global $std/typedarray/i32a)
+    (i32.const 1)
+    (i32.const 0)
+    (i32.const 2)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/internal/typedarray/TypedArray<i32,i32>#join
+      (get_global $std/typedarray/i32a)
+      (i32.const 896)
+     )
+     (i32.const 1128)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 148)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/typedarray/clamped
+   (call $~lib/typedarray/Uint8ClampedArray.of)
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/internal/typedarray/TypedArray<u8,u32>#join
+      (get_global $std/typedarray/clamped)
+     )
+     (i32.const 1232)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 151)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (drop
+   (call $~lib/typedarray/Uint8ClampedArray#fill
+    (get_global $std/typedarray/clamped)
+   )
+  )
+  (if
+   (i32.and
+    (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
+     (get_global $std/typedarray/clamped)
+     (i32.const 0)
+    )
+    (i32.const 255)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 153)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $std/typedarray/i32a
+   (call $~lib/typedarray/Int32Array.from<Array<i32>>
+    (i32.const 1288)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/internal/typedarray/TypedArray<i32,i32>#indexOf
+     (get_global $std/typedarray/i32a)
+     (i32.const 2)
+     (i32.const 0)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 158)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/internal/typedarray/TypedArray<i32,i32>#indexOf
+     (get_global $std/typedarray/i32a)
+     (i32.const 2)
+     (i32.const 2)
+    )
+    (i32.const 3)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 159)
+     (i32.const 0)
+    )
+    (unreachable)
    )
   )
- )
- (func $~lib/internal/typedarray/TypedArray<f64,f64>#sort|trampoline (; 21 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
-  (block $1of1
-   (block $0of1
-    (block $outOfRange
-     (br_table $0of1 $1of1 $outOfRange
-      (get_global $~argc)
-     )
+  (if
+   (i32.ne
+    (call $~lib/internal/typedarray/TypedArray<i32,i32>#indexOf
+     (get_global $std/typedarray/i32a)
+     (i32.const 4)
+     (i32.const 0)
+    )
+    (i32.const -1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 160)
+     (i32.const 0)
     )
     (unreachable)
    )
   )
-  (call $~lib/internal/typedarray/TypedArray<f64,f64>#sort
-   (get_local $0)
-   (i32.const 0)
-  )
- )
- (func $~lib/internal/typedarray/TypedArray<f64,f64>#__get (; 22 ;) (; has Stack IR ;) (type $iiF) (param $0 i32) (param $1 i32) (result f64)
-  (local $2 i32)
   (if
-   (i32.ge_u
-    (get_local $1)
-    (i32.shr_u
-     (i32.sub
-      (i32.load offset=8
-       (get_local $0)
-      )
-      (tee_local $2
-       (i32.load offset=4
-        (get_local $0)
-       )
-      )
-     )
-     (i32.const 3)
+   (i32.ne
+    (call $~lib/internal/typedarray/TypedArray<i32,i32>#lastIndexOf
+     (get_global $std/typedarray/i32a)
+     (i32.const 2)
+     (i32.const 2147483647)
     )
+    (i32.const 3)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 48)
-     (i32.const 42)
-     (i32.const 42)
+     (i32.const 8)
+     (i32.const 161)
+     (i32.const 0)
     )
     (unreachable)
    )
   )
-  (f64.load offset=8
-   (i32.add
-    (i32.add
-     (i32.load
-      (get_local $0)
-     )
-     (get_local $2)
-    )
-    (i32.shl
-     (get_local $1)
-     (i32.const 3)
+  (if
+   (call $~lib/internal/typedarray/TypedArray<i32,i32>#lastIndexOf
+    (get_global $std/typedarray/i32a)
+    (i32.const 1)
+    (i32.const -2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 162)
+     (i32.const 0)
     )
+    (unreachable)
    )
   )
- )
- (func $~lib/internal/typedarray/TypedArray<u8,u32>#__set (; 23 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
-  (local $3 i32)
   (if
-   (i32.ge_u
-    (get_local $1)
-    (i32.sub
-     (i32.load offset=8
-      (get_local $0)
-     )
-     (tee_local $3
-      (i32.load offset=4
-       (get_local $0)
-      )
-     )
+   (i32.eqz
+    (call $~lib/internal/typedarray/TypedArray<i32,i32>#includes
+     (get_global $std/typedarray/i32a)
+     (i32.const 0)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 48)
-     (i32.const 55)
-     (i32.const 42)
+     (i32.const 8)
+     (i32.const 163)
+     (i32.const 0)
     )
     (unreachable)
    )
   )
-  (i32.store8 offset=8
-   (i32.add
-    (i32.add
-     (i32.load
-      (get_local $0)
-     )
-     (get_local $3)
+  (if
+   (call $~lib/internal/typedarray/TypedArray<i32,i32>#includes
+    (get_global $std/typedarray/i32a)
+    (i32.const 3)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 164)
+     (i32.const 0)
     )
-    (get_local $1)
+    (unreachable)
    )
-   (get_local $2)
   )
- )
- (func $~lib/typedarray/Uint8ClampedArray#__set (; 24 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
-  (local $3 i32)
-  (call $~lib/internal/typedarray/TypedArray<u8,u32>#__set
-   (get_local $0)
-   (get_local $1)
-   (select
-    (tee_local $3
-     (select
-      (get_local $2)
-      (i32.const 255)
-      (i32.lt_s
-       (get_local $2)
-       (i32.const 255)
-      )
-     )
+  (set_global $std/typedarray/f64a
+   (call $~lib/typedarray/Float64Array.of)
+  )
+  (if
+   (i32.ne
+    (call $~lib/internal/typedarray/TypedArray<f64,f64>#indexOf
+     (get_global $std/typedarray/f64a)
     )
-    (i32.const 0)
-    (i32.gt_s
-     (get_local $3)
+    (i32.const -1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 167)
      (i32.const 0)
     )
+    (unreachable)
    )
   )
- )
- (func $~lib/internal/typedarray/TypedArray<u8,u32>#__get (; 25 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
   (if
-   (i32.ge_u
-    (get_local $1)
-    (i32.sub
-     (i32.load offset=8
-      (get_local $0)
-     )
-     (tee_local $2
-      (i32.load offset=4
-       (get_local $0)
-      )
-     )
+   (i32.eqz
+    (call $~lib/internal/typedarray/TypedArray<f64,f64>#includes
+     (get_global $std/typedarray/f64a)
     )
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
-     (i32.const 48)
-     (i32.const 42)
-     (i32.const 42)
+     (i32.const 8)
+     (i32.const 168)
+     (i32.const 0)
     )
     (unreachable)
    )
   )
-  (i32.load8_u offset=8
-   (i32.add
-    (i32.add
-     (i32.load
-      (get_local $0)
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/internal/typedarray/TypedArray<f64,f64>#join
+      (get_global $std/typedarray/f64a)
      )
-     (get_local $2)
+     (i32.const 17800)
     )
-    (get_local $1)
    )
-  )
- )
- (func $start (; 26 ;) (; has Stack IR ;) (type $v)
-  (local $0 i32)
-  (set_global $~lib/allocator/arena/startOffset
-   (i32.const 176)
-  )
-  (set_global $~lib/allocator/arena/offset
-   (get_global $~lib/allocator/arena/startOffset)
-  )
-  (call $std/typedarray/testInstantiate
-   (i32.const 0)
-  )
-  (call $std/typedarray/testInstantiate
-   (i32.const 5)
-  )
-  (set_global $std/typedarray/arr
-   (call $~lib/internal/typedarray/TypedArray<i32,i32>#constructor
-    (i32.const 3)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 169)
+     (i32.const 0)
+    )
+    (unreachable)
    )
   )
-  (call $~lib/internal/typedarray/TypedArray<i32,i32>#__set
-   (get_global $std/typedarray/arr)
-   (i32.const 0)
-   (i32.const 1)
-  )
-  (call $~lib/internal/typedarray/TypedArray<i32,i32>#__set
-   (get_global $std/typedarray/arr)
-   (i32.const 1)
-   (i32.const 2)
-  )
-  (call $~lib/internal/typedarray/TypedArray<i32,i32>#__set
-   (get_global $std/typedarray/arr)
-   (i32.const 2)
-   (i32.const 3)
+  (set_global $std/typedarray/sliced
+   (call $~lib/typedarray/Int32Array#slice
+    (get_global $std/typedarray/i32a)
+    (i32.const 1)
+    (i32.const -1)
+   )
   )
   (if
    (i32.ne
@@ -2591,7 +10986,7 @@
      (i32.sub
       (i32.load offset=8
        (tee_local $0
-        (get_global $std/typedarray/arr)
+        (get_global $std/typedarray/sliced)
        )
       )
       (i32.load offset=4
@@ -2606,229 +11001,255 @@
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 80)
+     (i32.const 174)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/internal/typedarray/TypedArray<i32,i32>#join
+      (get_global $std/typedarray/sliced)
+      (i32.const 896)
+     )
+     (i32.const 17824)
+    )
+   )
+   (block
+    (call $~lib/env/abort
      (i32.const 0)
+     (i32.const 8)
+     (i32.const 175)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/internal/typedarray/TypedArray<i32,i32>#__set
+   (get_global $std/typedarray/sliced)
+   (i32.const 0)
+   (i32.const 5)
+  )
+  (if
+   (i32.ne
+    (call $~lib/internal/typedarray/TypedArray<i32,i32>#__get
+     (get_global $std/typedarray/i32a)
+     (i32.const 1)
+    )
+    (i32.const 2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 177)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/internal/typedarray/TypedArray<i32,i32>#join
+      (call $~lib/typedarray/Int32Array#slice
+       (call $~lib/typedarray/Int32Array#subarray
+        (get_global $std/typedarray/i32a)
+        (i32.const 1)
+        (i32.const 3)
+       )
+       (i32.const 1)
+       (i32.const 2147483647)
+      )
+      (i32.const 896)
+     )
+     (i32.const 17840)
     )
-    (unreachable)
-   )
-  )
-  (if
-   (i32.load offset=4
-    (get_global $std/typedarray/arr)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 81)
+     (i32.const 178)
      (i32.const 0)
     )
     (unreachable)
    )
   )
   (if
-   (i32.ne
-    (i32.load offset=8
-     (get_global $std/typedarray/arr)
+   (i32.shr_s
+    (i32.sub
+     (i32.load offset=8
+      (tee_local $0
+       (call $~lib/typedarray/Int32Array#slice
+        (get_global $std/typedarray/i32a)
+        (i32.const 4)
+        (i32.const 2)
+       )
+      )
+     )
+     (i32.load offset=4
+      (get_local $0)
+     )
     )
-    (i32.const 12)
+    (i32.const 2)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 82)
+     (i32.const 179)
      (i32.const 0)
     )
     (unreachable)
    )
   )
   (if
-   (i32.ne
-    (call $~lib/internal/typedarray/TypedArray<i32,i32>#__get
-     (get_global $std/typedarray/arr)
-     (i32.const 0)
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/internal/typedarray/TypedArray<i32,i32>#join
+      (call $~lib/internal/typedarray/TypedArray<i32,i32>#reverse
+       (get_global $std/typedarray/sliced)
+      )
+      (i32.const 896)
+     )
+     (i32.const 17848)
     )
-    (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 83)
+     (i32.const 180)
      (i32.const 0)
     )
     (unreachable)
    )
   )
   (if
-   (i32.ne
-    (call $~lib/internal/typedarray/TypedArray<i32,i32>#__get
-     (get_global $std/typedarray/arr)
+   (i32.eqz
+    (i32.and
+     (call $~lib/typedarray/Int32Array#every
+      (get_global $std/typedarray/i32a)
+      (i32.const 17864)
+     )
      (i32.const 1)
     )
-    (i32.const 2)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 84)
+     (i32.const 184)
      (i32.const 0)
     )
     (unreachable)
    )
   )
   (if
-   (i32.ne
-    (call $~lib/internal/typedarray/TypedArray<i32,i32>#__get
-     (get_global $std/typedarray/arr)
-     (i32.const 2)
+   (i32.and
+    (call $~lib/typedarray/Int32Array#every
+     (get_global $std/typedarray/i32a)
+     (i32.const 17872)
     )
-    (i32.const 3)
+    (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 85)
+     (i32.const 185)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/typedarray/arr
-   (call $~lib/typedarray/Int32Array#subarray
-    (get_global $std/typedarray/arr)
-   )
-  )
   (if
-   (i32.ne
-    (i32.shr_s
-     (i32.sub
-      (i32.load offset=8
-       (tee_local $0
-        (get_global $std/typedarray/arr)
-       )
-      )
-      (i32.load offset=4
-       (get_local $0)
-      )
+   (i32.eqz
+    (i32.and
+     (call $~lib/typedarray/Int32Array#some
+      (get_global $std/typedarray/i32a)
+      (i32.const 17880)
      )
-     (i32.const 2)
+     (i32.const 1)
     )
-    (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 88)
+     (i32.const 186)
      (i32.const 0)
     )
     (unreachable)
    )
   )
   (if
-   (i32.ne
-    (i32.load offset=4
-     (get_global $std/typedarray/arr)
+   (i32.and
+    (call $~lib/typedarray/Int32Array#some
+     (get_global $std/typedarray/i32a)
+     (i32.const 17888)
     )
-    (i32.const 4)
+    (i32.const 1)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 89)
+     (i32.const 187)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (call $~lib/typedarray/Int32Array#forEach
+   (get_global $std/typedarray/i32a)
+  )
   (if
    (i32.ne
-    (i32.load offset=8
-     (get_global $std/typedarray/arr)
-    )
-    (i32.const 8)
+    (get_global $std/typedarray/sum)
+    (i32.const 18)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 90)
+     (i32.const 193)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/typedarray/mapped
+   (call $~lib/typedarray/Int32Array#map
+    (get_global $std/typedarray/i32a)
+   )
+  )
   (if
-   (i32.ne
-    (call $~lib/internal/typedarray/TypedArray<i32,i32>#__get
-     (get_global $std/typedarray/arr)
-     (i32.const 0)
+   (i32.eqz
+    (call $~lib/string/String.__eq
+     (call $~lib/internal/typedarray/TypedArray<i32,i32>#join
+      (get_global $std/typedarray/mapped)
+      (i32.const 896)
+     )
+     (i32.const 17912)
     )
-    (i32.const 2)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 91)
+     (i32.const 196)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $std/typedarray/af64
-   (call $~lib/internal/typedarray/TypedArray<i64,i64>#constructor
-    (i32.const 8)
-   )
-  )
-  (call $~lib/internal/typedarray/TypedArray<f64,f64>#__set
-   (get_global $std/typedarray/af64)
-   (i32.const 0)
-   (f64.const 1)
-  )
-  (call $~lib/internal/typedarray/TypedArray<f64,f64>#__set
-   (get_global $std/typedarray/af64)
-   (i32.const 1)
-   (f64.const 2)
-  )
-  (call $~lib/internal/typedarray/TypedArray<f64,f64>#__set
-   (get_global $std/typedarray/af64)
-   (i32.const 2)
-   (f64.const 7)
-  )
-  (call $~lib/internal/typedarray/TypedArray<f64,f64>#__set
-   (get_global $std/typedarray/af64)
-   (i32.const 3)
-   (f64.const 6)
-  )
-  (call $~lib/internal/typedarray/TypedArray<f64,f64>#__set
-   (get_global $std/typedarray/af64)
-   (i32.const 4)
-   (f64.const 5)
-  )
-  (call $~lib/internal/typedarray/TypedArray<f64,f64>#__set
-   (get_global $std/typedarray/af64)
-   (i32.const 5)
-   (f64.const 4)
-  )
-  (call $~lib/internal/typedarray/TypedArray<f64,f64>#__set
-   (get_global $std/typedarray/af64)
-   (i32.const 6)
-   (f64.const 3)
-  )
-  (call $~lib/internal/typedarray/TypedArray<f64,f64>#__set
-   (get_global $std/typedarray/af64)
-   (i32.const 7)
-   (f64.const 8)
-  )
-  (set_global $std/typedarray/af64
-   (call $~lib/typedarray/Float64Array#subarray
-    (get_global $std/typedarray/af64)
+  (set_global $std/typedarray/filtered
+   (call $~lib/typedarray/Int32Array#filter
+    (get_global $std/typedarray/i32a)
    )
   )
   (if
@@ -2837,126 +11258,42 @@
      (i32.sub
       (i32.load offset=8
        (tee_local $0
-        (get_global $std/typedarray/af64)
+        (get_global $std/typedarray/filtered)
        )
       )
       (i32.load offset=4
        (get_local $0)
       )
      )
-     (i32.const 3)
+     (i32.const 2)
     )
-    (i32.const 4)
+    (i32.const 3)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 105)
+     (i32.const 198)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (set_global $~argc
-   (i32.const 0)
-  )
-  (drop
-   (call $~lib/internal/typedarray/TypedArray<f64,f64>#sort|trampoline
-    (get_global $std/typedarray/af64)
-   )
-  )
-  (if
-   (tee_local $0
-    (f64.eq
-     (call $~lib/internal/typedarray/TypedArray<f64,f64>#__get
-      (get_global $std/typedarray/af64)
-      (i32.const 0)
-     )
-     (f64.const 4)
-    )
-   )
-   (set_local $0
-    (f64.eq
-     (call $~lib/internal/typedarray/TypedArray<f64,f64>#__get
-      (get_global $std/typedarray/af64)
-      (i32.const 1)
-     )
-     (f64.const 5)
-    )
-   )
-  )
-  (if
-   (get_local $0)
-   (set_local $0
-    (f64.eq
-     (call $~lib/internal/typedarray/TypedArray<f64,f64>#__get
-      (get_global $std/typedarray/af64)
-      (i32.const 2)
-     )
-     (f64.const 6)
-    )
-   )
-  )
-  (if
-   (get_local $0)
-   (set_local $0
-    (f64.eq
-     (call $~lib/internal/typedarray/TypedArray<f64,f64>#__get
-      (get_global $std/typedarray/af64)
-      (i32.const 3)
-     )
-     (f64.const 7)
-    )
-   )
-  )
   (if
    (i32.eqz
-    (get_local $0)
-   )
-   (block
-    (call $~lib/env/abort
-     (i32.const 0)
-     (i32.const 8)
-     (i32.const 107)
-     (i32.const 0)
-    )
-    (unreachable)
-   )
-  )
-  (set_global $std/typedarray/clampedArr
-   (call $~lib/internal/typedarray/TypedArray<i8,i32>#constructor
-    (i32.const 3)
-   )
-  )
-  (call $~lib/typedarray/Uint8ClampedArray#__set
-   (get_global $std/typedarray/clampedArr)
-   (i32.const 0)
-   (i32.const -32)
-  )
-  (call $~lib/typedarray/Uint8ClampedArray#__set
-   (get_global $std/typedarray/clampedArr)
-   (i32.const 1)
-   (i32.const 2)
-  )
-  (call $~lib/typedarray/Uint8ClampedArray#__set
-   (get_global $std/typedarray/clampedArr)
-   (i32.const 2)
-   (i32.const 256)
-  )
-  (if
-   (i32.and
-    (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
-     (get_global $std/typedarray/clampedArr)
-     (i32.const 0)
+    (call $~lib/string/String.__eq
+     (call $~lib/internal/typedarray/TypedArray<i32,i32>#join
+      (get_global $std/typedarray/filtered)
+      (i32.const 896)
+     )
+     (i32.const 17824)
     )
-    (i32.const 255)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 114)
+     (i32.const 199)
      (i32.const 0)
     )
     (unreachable)
@@ -2964,50 +11301,40 @@
   )
   (if
    (i32.ne
-    (i32.and
-     (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
-      (get_global $std/typedarray/clampedArr)
-      (i32.const 1)
-     )
-     (i32.const 255)
+    (call $~lib/typedarray/Int32Array#reduce<i32>
+     (get_global $std/typedarray/i32a)
     )
-    (i32.const 2)
+    (i32.const 12321)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 115)
+     (i32.const 201)
      (i32.const 0)
     )
     (unreachable)
    )
   )
+  (set_global $std/typedarray/f32a
+   (call $~lib/typedarray/Float32Array.of)
+  )
   (if
-   (i32.ne
-    (i32.and
-     (call $~lib/internal/typedarray/TypedArray<u8,u32>#__get
-      (get_global $std/typedarray/clampedArr)
-      (i32.const 2)
-     )
-     (i32.const 255)
+   (f64.ne
+    (call $~lib/typedarray/Float32Array#reduceRight<f64>
+     (get_global $std/typedarray/f32a)
     )
-    (i32.const 255)
+    (f64.const 2)
    )
    (block
     (call $~lib/env/abort
      (i32.const 0)
      (i32.const 8)
-     (i32.const 116)
+     (i32.const 203)
      (i32.const 0)
     )
     (unreachable)
    )
   )
-  (drop
-   (call $~lib/internal/typedarray/TypedArray<i64,i64>#constructor
-    (i32.const 134217727)
-   )
-  )
  )
 )
@@ -90,6 +90,12 @@ assert(arr.byteOffset == 1 * sizeof<i32>());
 assert(arr.byteLength == 2 * sizeof<i32>());
 assert(arr[0] == 2);
 
+var sub = arr.subarray(0, 1);
+assert(sub.length == 1);
+assert(sub.byteOffset == 1 * sizeof<i32>());
+assert(sub[0] == 2);
+assert(load<u32>(changetype<usize>(sub) - 4) == load<u32>(changetype<usize>(new Int32Array(0)) - 4)); // class id
+
 var af64 = new Float64Array(8);
 af64[0] = 1;
 af64[1] = 2;
@@ -120,3 +126,78 @@ import { MAX_BLENGTH } from "internal/arraybuffer";
 const MAX_F64LENGTH = <u32>MAX_BLENGTH >> alignof<f64>();
 new Float64Array(MAX_F64LENGTH); // 1GB
 // new Float64Array(MAX_F64 + 1); // throws
+
+// fill, set, copyWithin
+
+var i8a = new Int8Array(5);
+i8a.fill(1);
+assert(i8a.join() == "1,1,1,1,1");
+i8a.fill(-2, 1, -1);
+assert(i8a.join() == "1,-2,-2,-2,1");
+
+var i32a = new Int32Array(5);
+i32a.fill(7, -2);
+assert(i32a.join("|") == "0|0|0|7|7");
+i32a.set<i32[]>([1, 2, 3]);
+assert(i32a.join() == "1,2,3,7,7");
+i32a.set<Int32Array>(Int32Array.of(8, 9), 3);
+assert(i32a.join() == "1,2,3,8,9");
+i32a.copyWithin(0, 3);
+assert(i32a.join() == "8,9,3,8,9");
+i32a.copyWithin(1, 0, 2);
+assert(i32a.join() == "8,8,9,8,9");
+
+var clamped = Uint8ClampedArray.of(-1, 128, 300);
+assert(clamped.join() == "0,128,255");
+clamped.fill(-5);
+assert(clamped[0] == 0);
+
+// indexOf, lastIndexOf, includes
+
+i32a = Int32Array.from<i32[]>([1, 2, 3, 2, 1]);
+assert(i32a.indexOf(2) == 1);
+assert(i32a.indexOf(2, 2) == 3);
+assert(i32a.indexOf(4) == -1);
+assert(i32a.lastIndexOf(2) == 3);
+assert(i32a.lastIndexOf(1, -2) == 0);
+assert(i32a.includes(3));
+assert(!i32a.includes(3, 3));
+
+var f64a = Float64Array.of(0.5, NaN);
+assert(f64a.indexOf(NaN) == -1);
+assert(f64a.includes(NaN));
+assert(f64a.join() == "0.5,NaN");
+
+// slice, reverse
+
+var sliced = i32a.slice(1, -1);
+assert(sliced.length == 3);
+assert(sliced.join() == "2,3,2");
+sliced[0] = 5;
+assert(i32a[1] == 2);
+assert(i32a.subarray(1, 3).slice(1).join() == "3");
+assert(i32a.slice(4, 2).length == 0);
+assert(sliced.reverse().join() == "2,3,5");
+
+// every, some, forEach, map, filter, reduce, reduceRight
+
+assert(i32a.every((value: i32, index: i32, array: Int32Array): bool => value > 0));
+assert(!i32a.every((value: i32, index: i32, array: Int32Array): bool => value > 1));
+assert(i32a.some((value: i32, index: i32, array: Int32Array): bool => value == 3));
+assert(!i32a.some((value: i32, index: i32, array: Int32Array): bool => value == 4));
+
+var sum = 0;
+i32a.forEach((value: i32, index: i32, array: Int32Array): void => {
+  sum += value * index;
+});
+assert(sum == 2 + 6 + 6 + 4);
+
+var mapped = i32a.map((value: i32, index: i32, array: Int32Array): i32 => value * 2);
+assert(mapped.join() == "2,4,6,4,2");
+var filtered = i32a.filter((value: i32, index: i32, array: Int32Array): bool => value >= 2);
+assert(filtered.length == 3);
+assert(filtered.join() == "2,3,2");
+
+assert(i32a.reduce<i32>(((acc: i32, value: i32, index: i32, array: Int32Array): i32 => acc * 10 + value), 0) == 12321);
+var f32a = Float32Array.of(1, 2, 4);
+assert(f32a.reduceRight<f64>(((acc: f64, value: f32, index: i32, array: Float32Array): f64 => acc / value), 16) == 2);
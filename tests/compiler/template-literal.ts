@@ -0,0 +1,47 @@
+import "allocator/arena";
+
+var name = "world";
+var answer = 42;
+
+assert(`` == "");
+assert(`hello` == "hello");
+assert(`hello ${name}` == "hello world");
+assert(`${name}!` == "world!");
+assert(`${name}${name}` == "worldworld");
+assert(`the answer is ${answer}.` == "the answer is 42.");
+assert(`${-answer}` == "-42");
+assert(`${<u8>255}, ${<i64>-9007199254740991}, ${<u64>18446744073709551615}` == "255, -9007199254740991, 18446744073709551615");
+assert(`${answer == 42} ${answer != 42}` == "true false");
+assert(`${0.1 + 0.2}, ${<f32>0.1}, ${1e21}, ${-1e-7}` == "0.30000000000000004, 0.1, 1e+21, -1e-7");
+assert(`a${`b${answer}c`}d` == "ab42cd");
+assert(`\`\${name}\\` == "`${name}\\");
+assert(`line
+break` == "line\nbreak");
+
+class Point {
+  constructor(public x: i32, public y: i32) {}
+  toString(): string {
+    return `(${this.x}, ${this.y})`;
+  }
+}
+
+class Point3D extends Point {
+  constructor(x: i32, y: i32, public z: i32) {
+    super(x, y);
+  }
+  toString(): string {
+    return `(${this.x}, ${this.y}, ${this.z})`;
+  }
+}
+
+var point: Point = new Point3D(1, 2, 3);
+assert(`${new Point(1, 2)}` == "(1, 2)");
+assert(`point: ${point}` == "point: (1, 2, 3)");
+
+var nullString: string | null = null;
+var nullPoint: Point | null = null;
+assert(`${nullString}` == "null");
+assert(`x${nullString}y` == "xnully");
+assert(`x${nullPoint}` == "xnull");
+nullPoint = new Point(3, 4);
+assert(`x${nullPoint}` == "x(3, 4)");
@@ -0,0 +1,50 @@
+(module
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $v (func))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (import "env" "memory" (memory $0 1 32768 shared))
+ (data (i32.const 8) "\1a\00\00\00t\00h\00r\00e\00a\00d\00s\00-\00i\00m\00p\00o\00r\00t\00e\00d\00-\00m\00e\00m\00o\00r\00y\00.\00t\00s")
+ (export "memory" (memory $0))
+ (start $start)
+ (func $start (; 1 ;) (; has Stack IR ;) (type $v)
+  (i32.atomic.store
+   (i32.const 8)
+   (i32.const 10)
+  )
+  (if
+   (i32.ne
+    (i32.atomic.rmw.add
+     (i32.const 8)
+     (i32.const 5)
+    )
+    (i32.const 10)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 4)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.atomic.load
+     (i32.const 8)
+    )
+    (i32.const 15)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 5)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+ )
+)
@@ -0,0 +1,5 @@
+const ptr: usize = 8;
+
+atomic.store<i32>(ptr, 10);
+assert(atomic.add<i32>(ptr, 5) == 10);
+assert(atomic.load<i32>(ptr) == 15);
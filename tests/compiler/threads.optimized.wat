@@ -0,0 +1,2159 @@
+(module
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $ii (func (param i32) (result i32)))
+ (type $v (func))
+ (type $i (func (result i32)))
+ (type $iiv (func (param i32 i32)))
+ (type $iiiv (func (param i32 i32 i32)))
+ (type $iiii (func (param i32 i32 i32) (result i32)))
+ (type $iii (func (param i32 i32) (result i32)))
+ (type $iv (func (param i32)))
+ (type $FUNCSIG$vi (func (param i32)))
+ (type $FUNCSIG$i (func (result i32)))
+ (type $FUNCSIG$vii (func (param i32 i32)))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/allocator/tlsf/ROOT (mut i32) (i32.const 0))
+ (global $threads/a (mut i32) (i32.const 0))
+ (global $threads/b (mut i32) (i32.const 0))
+ (memory $0 1 32768 shared)
+ (data (i32.const 8) "\16\00\00\00~\00l\00i\00b\00/\00a\00l\00l\00o\00c\00a\00t\00o\00r\00/\00t\00l\00s\00f\00.\00t\00s")
+ (data (i32.const 56) "\n\00\00\00t\00h\00r\00e\00a\00d\00s\00.\00t\00s")
+ (export "memory" (memory $0))
+ (start $start)
+ (func $~lib/allocator/tlsf/lock (; 1 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (if
+   (tee_local $0
+    (i32.gt_s
+     (i32.const 1)
+     (tee_local $1
+      (current_memory)
+     )
+    )
+   )
+   (set_local $0
+    (i32.lt_s
+     (grow_memory
+      (i32.sub
+       (i32.const 1)
+       (get_local $1)
+      )
+     )
+     (i32.const 0)
+    )
+   )
+  )
+  (if
+   (get_local $0)
+   (unreachable)
+  )
+  (loop $continue|0
+   (br_if $continue|0
+    (i32.atomic.rmw.cmpxchg
+     (i32.const 80)
+     (i32.const 0)
+     (i32.const 1)
+    )
+   )
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#set:tailRef (; 2 ;) (; has Stack IR ;) (type $FUNCSIG$vi) (param $0 i32)
+  (i32.store
+   (i32.const 2912)
+   (get_local $0)
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#setSLMap (; 3 ;) (; has Stack IR ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (i32.const 22)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 144)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (i32.add
+    (get_local $0)
+    (i32.shl
+     (get_local $1)
+     (i32.const 2)
+    )
+   )
+   (get_local $2)
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#setHead (; 4 ;) (; has Stack IR ;) (type $iiiiv) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32)
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (i32.const 22)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 167)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $2)
+    (i32.const 32)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 168)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=96
+   (i32.add
+    (get_local $0)
+    (i32.shl
+     (i32.add
+      (i32.shl
+       (get_local $1)
+       (i32.const 5)
+      )
+      (get_local $2)
+     )
+     (i32.const 2)
+    )
+   )
+   (get_local $3)
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#get:tailRef (; 5 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (i32.load
+   (i32.const 2912)
+  )
+ )
+ (func $~lib/allocator/tlsf/Block#get:right (; 6 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eqz
+    (i32.and
+     (i32.load
+      (get_local $0)
+     )
+     (i32.const -4)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 89)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $0
+     (i32.add
+      (i32.add
+       (get_local $0)
+       (i32.const 8)
+      )
+      (i32.and
+       (i32.load
+        (get_local $0)
+       )
+       (i32.const -4)
+      )
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 90)
+     (i32.const 11)
+    )
+    (unreachable)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/allocator/tlsf/fls<usize> (; 7 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 428)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.sub
+   (i32.const 31)
+   (i32.clz
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#getHead (; 8 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (i32.const 22)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 158)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $2)
+    (i32.const 32)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 159)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (i32.load offset=96
+   (i32.add
+    (get_local $0)
+    (i32.shl
+     (i32.add
+      (i32.shl
+       (get_local $1)
+       (i32.const 5)
+      )
+      (get_local $2)
+     )
+     (i32.const 2)
+    )
+   )
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#getSLMap (; 9 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (if
+   (i32.ge_u
+    (get_local $1)
+    (i32.const 22)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 138)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (i32.load offset=4
+   (i32.add
+    (get_local $0)
+    (i32.shl
+     (get_local $1)
+     (i32.const 2)
+    )
+   )
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#remove (; 10 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (i32.eqz
+    (i32.and
+     (tee_local $2
+      (i32.load
+       (get_local $1)
+      )
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 258)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (tee_local $2
+    (i32.ge_u
+     (tee_local $3
+      (i32.and
+       (get_local $2)
+       (i32.const -4)
+      )
+     )
+     (i32.const 16)
+    )
+   )
+   (set_local $2
+    (i32.lt_u
+     (get_local $3)
+     (i32.const 1073741824)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 260)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $4
+   (if (result i32)
+    (i32.lt_u
+     (get_local $3)
+     (i32.const 256)
+    )
+    (block (result i32)
+     (set_local $3
+      (i32.div_u
+       (get_local $3)
+       (i32.const 8)
+      )
+     )
+     (i32.const 0)
+    )
+    (block (result i32)
+     (set_local $3
+      (i32.xor
+       (i32.shr_u
+        (get_local $3)
+        (i32.sub
+         (tee_local $4
+          (call $~lib/allocator/tlsf/fls<usize>
+           (get_local $3)
+          )
+         )
+         (i32.const 5)
+        )
+       )
+       (i32.const 32)
+      )
+     )
+     (i32.sub
+      (get_local $4)
+      (i32.const 7)
+     )
+    )
+   )
+  )
+  (set_local $2
+   (i32.load offset=8
+    (get_local $1)
+   )
+  )
+  (if
+   (tee_local $5
+    (i32.load offset=4
+     (get_local $1)
+    )
+   )
+   (i32.store offset=8
+    (get_local $5)
+    (get_local $2)
+   )
+  )
+  (if
+   (get_local $2)
+   (i32.store offset=4
+    (get_local $2)
+    (get_local $5)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (call $~lib/allocator/tlsf/Root#getHead
+     (get_local $0)
+     (get_local $4)
+     (get_local $3)
+    )
+   )
+   (block
+    (call $~lib/allocator/tlsf/Root#setHead
+     (get_local $0)
+     (get_local $4)
+     (get_local $3)
+     (get_local $2)
+    )
+    (if
+     (i32.eqz
+      (get_local $2)
+     )
+     (block
+      (call $~lib/allocator/tlsf/Root#setSLMap
+       (get_local $0)
+       (get_local $4)
+       (tee_local $2
+        (i32.and
+         (call $~lib/allocator/tlsf/Root#getSLMap
+          (get_local $0)
+          (get_local $4)
+         )
+         (i32.xor
+          (i32.shl
+           (i32.const 1)
+           (get_local $3)
+          )
+          (i32.const -1)
+         )
+        )
+       )
+      )
+      (if
+       (i32.eqz
+        (get_local $2)
+       )
+       (i32.store
+        (get_local $0)
+        (i32.and
+         (i32.load
+          (get_local $0)
+         )
+         (i32.xor
+          (i32.shl
+           (i32.const 1)
+           (get_local $4)
+          )
+          (i32.const -1)
+         )
+        )
+       )
+      )
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/allocator/tlsf/Block#get:left (; 11 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eqz
+    (i32.and
+     (i32.load
+      (get_local $0)
+     )
+     (i32.const 2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 81)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $0
+     (i32.load
+      (i32.sub
+       (get_local $0)
+       (i32.const 4)
+      )
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 82)
+     (i32.const 11)
+    )
+    (unreachable)
+   )
+  )
+  (get_local $0)
+ )
+ (func $~lib/allocator/tlsf/Root#setJump (; 12 ;) (; has Stack IR ;) (type $FUNCSIG$vii) (param $0 i32) (param $1 i32)
+  (if
+   (i32.eqz
+    (i32.and
+     (i32.load
+      (get_local $0)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 334)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $~lib/allocator/tlsf/Block#get:right
+     (get_local $0)
+    )
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 335)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (i32.load
+      (get_local $1)
+     )
+     (i32.const 2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 336)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (get_local $1)
+    (i32.const 4)
+   )
+   (get_local $0)
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#insert (; 13 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 189)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (tee_local $5
+      (i32.load
+       (get_local $1)
+      )
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 191)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (tee_local $2
+    (i32.ge_u
+     (tee_local $3
+      (i32.and
+       (i32.load
+        (get_local $1)
+       )
+       (i32.const -4)
+      )
+     )
+     (i32.const 16)
+    )
+   )
+   (set_local $2
+    (i32.lt_u
+     (get_local $3)
+     (i32.const 1073741824)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 193)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $2
+     (call $~lib/allocator/tlsf/Block#get:right
+      (get_local $1)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 197)
+     (i32.const 23)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.and
+    (tee_local $6
+     (i32.load
+      (tee_local $3
+       (get_local $2)
+      )
+     )
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/allocator/tlsf/Root#remove
+     (get_local $0)
+     (get_local $3)
+    )
+    (i32.store
+     (get_local $1)
+     (tee_local $5
+      (i32.add
+       (get_local $5)
+       (i32.add
+        (i32.and
+         (get_local $6)
+         (i32.const -4)
+        )
+        (i32.const 8)
+       )
+      )
+     )
+    )
+    (set_local $6
+     (i32.load
+      (tee_local $3
+       (call $~lib/allocator/tlsf/Block#get:right
+        (get_local $1)
+       )
+      )
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $5)
+    (i32.const 2)
+   )
+   (block
+    (if
+     (i32.eqz
+      (tee_local $2
+       (call $~lib/allocator/tlsf/Block#get:left
+        (get_local $1)
+       )
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 8)
+       (i32.const 211)
+       (i32.const 24)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.eqz
+      (i32.and
+       (tee_local $4
+        (i32.load
+         (get_local $2)
+        )
+       )
+       (i32.const 1)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 8)
+       (i32.const 213)
+       (i32.const 6)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/allocator/tlsf/Root#remove
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.store
+     (get_local $2)
+     (tee_local $4
+      (i32.add
+       (get_local $4)
+       (i32.add
+        (i32.and
+         (get_local $5)
+         (i32.const -4)
+        )
+        (i32.const 8)
+       )
+      )
+     )
+    )
+    (set_local $1
+     (get_local $2)
+    )
+    (set_local $5
+     (get_local $4)
+    )
+   )
+  )
+  (i32.store
+   (get_local $3)
+   (i32.or
+    (get_local $6)
+    (i32.const 2)
+   )
+  )
+  (call $~lib/allocator/tlsf/Root#setJump
+   (get_local $1)
+   (get_local $3)
+  )
+  (if
+   (tee_local $4
+    (i32.ge_u
+     (tee_local $3
+      (i32.and
+       (get_local $5)
+       (i32.const -4)
+      )
+     )
+     (i32.const 16)
+    )
+   )
+   (set_local $4
+    (i32.lt_u
+     (get_local $3)
+     (i32.const 1073741824)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $4)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 226)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $5
+   (call $~lib/allocator/tlsf/Root#getHead
+    (get_local $0)
+    (tee_local $2
+     (if (result i32)
+      (i32.lt_u
+       (get_local $3)
+       (i32.const 256)
+      )
+      (block (result i32)
+       (set_local $4
+        (i32.div_u
+         (get_local $3)
+         (i32.const 8)
+        )
+       )
+       (i32.const 0)
+      )
+      (block (result i32)
+       (set_local $4
+        (i32.xor
+         (i32.shr_u
+          (get_local $3)
+          (i32.sub
+           (tee_local $2
+            (call $~lib/allocator/tlsf/fls<usize>
+             (get_local $3)
+            )
+           )
+           (i32.const 5)
+          )
+         )
+         (i32.const 32)
+        )
+       )
+       (i32.sub
+        (get_local $2)
+        (i32.const 7)
+       )
+      )
+     )
+    )
+    (get_local $4)
+   )
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=8
+   (get_local $1)
+   (get_local $5)
+  )
+  (if
+   (get_local $5)
+   (i32.store offset=4
+    (get_local $5)
+    (get_local $1)
+   )
+  )
+  (call $~lib/allocator/tlsf/Root#setHead
+   (get_local $0)
+   (get_local $2)
+   (get_local $4)
+   (get_local $1)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.or
+    (i32.load
+     (get_local $0)
+    )
+    (i32.shl
+     (i32.const 1)
+     (get_local $2)
+    )
+   )
+  )
+  (call $~lib/allocator/tlsf/Root#setSLMap
+   (get_local $0)
+   (get_local $2)
+   (i32.or
+    (call $~lib/allocator/tlsf/Root#getSLMap
+     (get_local $0)
+     (get_local $2)
+    )
+    (i32.shl
+     (i32.const 1)
+     (get_local $4)
+    )
+   )
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#addMemory (; 14 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (if
+   (i32.gt_u
+    (get_local $1)
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 377)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.and
+    (get_local $1)
+    (i32.const 7)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 378)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 7)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 379)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (tee_local $3
+    (call $~lib/allocator/tlsf/Root#get:tailRef)
+   )
+   (block
+    (if
+     (i32.lt_u
+      (get_local $1)
+      (i32.add
+       (get_local $3)
+       (i32.const 4)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 8)
+       (i32.const 384)
+       (i32.const 6)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.eq
+      (i32.sub
+       (get_local $1)
+       (i32.const 8)
+      )
+      (get_local $3)
+     )
+     (block
+      (set_local $1
+       (i32.sub
+        (get_local $1)
+        (i32.const 8)
+       )
+      )
+      (set_local $4
+       (i32.load
+        (get_local $3)
+       )
+      )
+     )
+    )
+   )
+   (if
+    (i32.lt_u
+     (get_local $1)
+     (i32.add
+      (get_local $0)
+      (i32.const 2916)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 8)
+      (i32.const 393)
+      (i32.const 6)
+     )
+     (unreachable)
+    )
+   )
+  )
+  (if
+   (i32.lt_u
+    (tee_local $2
+     (i32.sub
+      (get_local $2)
+      (get_local $1)
+     )
+    )
+    (i32.const 32)
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.store
+   (get_local $1)
+   (i32.or
+    (i32.or
+     (i32.sub
+      (get_local $2)
+      (i32.const 16)
+     )
+     (i32.const 1)
+    )
+    (i32.and
+     (get_local $4)
+     (i32.const 2)
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=8
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store
+   (tee_local $2
+    (i32.sub
+     (i32.add
+      (get_local $1)
+      (get_local $2)
+     )
+     (i32.const 8)
+    )
+   )
+   (i32.const 2)
+  )
+  (call $~lib/allocator/tlsf/Root#set:tailRef
+   (get_local $2)
+  )
+  (call $~lib/allocator/tlsf/Root#insert
+   (get_local $0)
+   (get_local $1)
+  )
+  (i32.const 1)
+ )
+ (func $~lib/allocator/tlsf/initialize (; 15 ;) (; has Stack IR ;) (type $i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (if
+   (i32.atomic.load
+    (i32.const 84)
+   )
+   (return
+    (i32.const 88)
+   )
+  )
+  (if
+   (tee_local $0
+    (i32.gt_s
+     (i32.const 1)
+     (tee_local $1
+      (current_memory)
+     )
+    )
+   )
+   (set_local $0
+    (i32.lt_s
+     (grow_memory
+      (i32.sub
+       (i32.const 1)
+       (get_local $1)
+      )
+     )
+     (i32.const 0)
+    )
+   )
+  )
+  (if
+   (get_local $0)
+   (unreachable)
+  )
+  (call $~lib/allocator/tlsf/Root#set:tailRef
+   (i32.const 0)
+  )
+  (i32.store
+   (i32.const 88)
+   (i32.const 0)
+  )
+  (block $break|0
+   (set_local $0
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.ge_u
+      (get_local $0)
+      (i32.const 22)
+     )
+    )
+    (call $~lib/allocator/tlsf/Root#setSLMap
+     (i32.const 88)
+     (get_local $0)
+     (i32.const 0)
+    )
+    (block $break|1
+     (set_local $1
+      (i32.const 0)
+     )
+     (loop $repeat|1
+      (br_if $break|1
+       (i32.ge_u
+        (get_local $1)
+        (i32.const 32)
+       )
+      )
+      (call $~lib/allocator/tlsf/Root#setHead
+       (i32.const 88)
+       (get_local $0)
+       (get_local $1)
+       (i32.const 0)
+      )
+      (set_local $1
+       (i32.add
+        (get_local $1)
+        (i32.const 1)
+       )
+      )
+      (br $repeat|1)
+     )
+    )
+    (set_local $0
+     (i32.add
+      (get_local $0)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (drop
+   (call $~lib/allocator/tlsf/Root#addMemory
+    (i32.const 88)
+    (i32.const 3008)
+    (i32.shl
+     (current_memory)
+     (i32.const 16)
+    )
+   )
+  )
+  (i32.atomic.store
+   (i32.const 84)
+   (i32.const 1)
+  )
+  (i32.const 88)
+ )
+ (func $~lib/allocator/tlsf/ffs<usize> (; 16 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 422)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.ctz
+   (get_local $0)
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#search (; 17 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (if
+   (tee_local $2
+    (i32.ge_u
+     (get_local $1)
+     (i32.const 16)
+    )
+   )
+   (set_local $2
+    (i32.lt_u
+     (get_local $1)
+     (i32.const 1073741824)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 296)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $1
+   (if (result i32)
+    (i32.lt_u
+     (get_local $1)
+     (i32.const 256)
+    )
+    (block (result i32)
+     (set_local $2
+      (i32.const 0)
+     )
+     (i32.div_u
+      (get_local $1)
+      (i32.const 8)
+     )
+    )
+    (block (result i32)
+     (set_local $1
+      (i32.xor
+       (i32.shr_u
+        (get_local $1)
+        (i32.sub
+         (tee_local $2
+          (call $~lib/allocator/tlsf/fls<usize>
+           (get_local $1)
+          )
+         )
+         (i32.const 5)
+        )
+       )
+       (i32.const 32)
+      )
+     )
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 7)
+      )
+     )
+     (if (result i32)
+      (i32.lt_u
+       (get_local $1)
+       (i32.const 31)
+      )
+      (i32.add
+       (get_local $1)
+       (i32.const 1)
+      )
+      (block (result i32)
+       (set_local $2
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+       (i32.const 0)
+      )
+     )
+    )
+   )
+  )
+  (tee_local $0
+   (if (result i32)
+    (tee_local $1
+     (i32.and
+      (call $~lib/allocator/tlsf/Root#getSLMap
+       (get_local $0)
+       (get_local $2)
+      )
+      (i32.shl
+       (i32.const -1)
+       (get_local $1)
+      )
+     )
+    )
+    (call $~lib/allocator/tlsf/Root#getHead
+     (get_local $0)
+     (get_local $2)
+     (call $~lib/allocator/tlsf/ffs<usize>
+      (get_local $1)
+     )
+    )
+    (if (result i32)
+     (tee_local $2
+      (i32.and
+       (i32.load
+        (get_local $0)
+       )
+       (i32.shl
+        (i32.const -1)
+        (i32.add
+         (get_local $2)
+         (i32.const 1)
+        )
+       )
+      )
+     )
+     (block (result i32)
+      (if
+       (i32.eqz
+        (tee_local $1
+         (call $~lib/allocator/tlsf/Root#getSLMap
+          (get_local $0)
+          (tee_local $2
+           (call $~lib/allocator/tlsf/ffs<usize>
+            (get_local $2)
+           )
+          )
+         )
+        )
+       )
+       (block
+        (call $~lib/env/abort
+         (i32.const 0)
+         (i32.const 8)
+         (i32.const 323)
+         (i32.const 16)
+        )
+        (unreachable)
+       )
+      )
+      (call $~lib/allocator/tlsf/Root#getHead
+       (get_local $0)
+       (get_local $2)
+       (call $~lib/allocator/tlsf/ffs<usize>
+        (get_local $1)
+       )
+      )
+     )
+     (i32.const 0)
+    )
+   )
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#use (; 18 ;) (; has Stack IR ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (if
+   (i32.eqz
+    (i32.and
+     (tee_local $4
+      (i32.load
+       (get_local $1)
+      )
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 348)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (tee_local $3
+    (i32.ge_u
+     (get_local $2)
+     (i32.const 16)
+    )
+   )
+   (set_local $3
+    (i32.lt_u
+     (get_local $2)
+     (i32.const 1073741824)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $3)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 349)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (i32.const 7)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 350)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/allocator/tlsf/Root#remove
+   (get_local $0)
+   (get_local $1)
+  )
+  (if
+   (i32.ge_u
+    (tee_local $5
+     (i32.sub
+      (i32.and
+       (get_local $4)
+       (i32.const -4)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.const 24)
+   )
+   (block
+    (i32.store
+     (get_local $1)
+     (i32.or
+      (get_local $2)
+      (i32.and
+       (get_local $4)
+       (i32.const 2)
+      )
+     )
+    )
+    (i32.store
+     (tee_local $3
+      (i32.add
+       (i32.add
+        (get_local $1)
+        (i32.const 8)
+       )
+       (get_local $2)
+      )
+     )
+     (i32.or
+      (i32.sub
+       (get_local $5)
+       (i32.const 8)
+      )
+      (i32.const 1)
+     )
+    )
+    (call $~lib/allocator/tlsf/Root#insert
+     (get_local $0)
+     (get_local $3)
+    )
+   )
+   (block
+    (i32.store
+     (get_local $1)
+     (i32.and
+      (get_local $4)
+      (i32.const -2)
+     )
+    )
+    (if
+     (i32.eqz
+      (tee_local $3
+       (call $~lib/allocator/tlsf/Block#get:right
+        (get_local $1)
+       )
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 8)
+       (i32.const 368)
+       (i32.const 25)
+      )
+      (unreachable)
+     )
+    )
+    (i32.store
+     (get_local $3)
+     (i32.and
+      (i32.load
+       (get_local $3)
+      )
+      (i32.const -3)
+     )
+    )
+   )
+  )
+  (i32.add
+   (get_local $1)
+   (i32.const 8)
+  )
+ )
+ (func $~lib/allocator/tlsf/allocate (; 19 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eqz
+    (tee_local $2
+     (get_global $~lib/allocator/tlsf/ROOT)
+    )
+   )
+   (set_global $~lib/allocator/tlsf/ROOT
+    (tee_local $2
+     (call $~lib/allocator/tlsf/initialize)
+    )
+   )
+  )
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 1073741824)
+   )
+   (unreachable)
+  )
+  (if
+   (i32.eqz
+    (tee_local $1
+     (call $~lib/allocator/tlsf/Root#search
+      (get_local $2)
+      (tee_local $0
+       (select
+        (tee_local $1
+         (i32.and
+          (i32.add
+           (get_local $0)
+           (i32.const 7)
+          )
+          (i32.const -8)
+         )
+        )
+        (i32.const 16)
+        (i32.gt_u
+         (get_local $1)
+         (i32.const 16)
+        )
+       )
+      )
+     )
+    )
+   )
+   (block
+    (if
+     (i32.lt_s
+      (grow_memory
+       (select
+        (tee_local $1
+         (current_memory)
+        )
+        (tee_local $3
+         (i32.shr_u
+          (i32.and
+           (i32.add
+            (get_local $0)
+            (i32.const 65535)
+           )
+           (i32.const -65536)
+          )
+          (i32.const 16)
+         )
+        )
+        (i32.gt_s
+         (get_local $1)
+         (get_local $3)
+        )
+       )
+      )
+      (i32.const 0)
+     )
+     (if
+      (i32.lt_s
+       (grow_memory
+        (get_local $3)
+       )
+       (i32.const 0)
+      )
+      (unreachable)
+     )
+    )
+    (drop
+     (call $~lib/allocator/tlsf/Root#addMemory
+      (get_local $2)
+      (i32.shl
+       (get_local $1)
+       (i32.const 16)
+      )
+      (i32.shl
+       (current_memory)
+       (i32.const 16)
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (tee_local $1
+       (call $~lib/allocator/tlsf/Root#search
+        (get_local $2)
+        (get_local $0)
+       )
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 8)
+       (i32.const 521)
+       (i32.const 12)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (if
+   (i32.lt_u
+    (i32.and
+     (i32.load
+      (get_local $1)
+     )
+     (i32.const -4)
+    )
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 524)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/allocator/tlsf/Root#use
+   (get_local $2)
+   (get_local $1)
+   (get_local $0)
+  )
+ )
+ (func $~lib/allocator/tlsf/unlock (; 20 ;) (; has Stack IR ;) (type $v)
+  (i32.atomic.store
+   (i32.const 80)
+   (i32.const 0)
+  )
+ )
+ (func $~lib/allocator/tlsf/__memory_allocate (; 21 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (local $0 i32)
+  (call $~lib/allocator/tlsf/lock)
+  (set_local $0
+   (call $~lib/allocator/tlsf/allocate
+    (i32.const 16)
+   )
+  )
+  (call $~lib/allocator/tlsf/unlock)
+  (get_local $0)
+ )
+ (func $~lib/allocator/tlsf/free (; 22 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eqz
+    (tee_local $1
+     (get_global $~lib/allocator/tlsf/ROOT)
+    )
+   )
+   (set_global $~lib/allocator/tlsf/ROOT
+    (tee_local $1
+     (call $~lib/allocator/tlsf/initialize)
+    )
+   )
+  )
+  (if
+   (i32.and
+    (tee_local $3
+     (i32.load
+      (tee_local $2
+       (i32.sub
+        (get_local $0)
+        (i32.const 8)
+       )
+      )
+     )
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 538)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (get_local $2)
+   (i32.or
+    (get_local $3)
+    (i32.const 1)
+   )
+  )
+  (call $~lib/allocator/tlsf/Root#insert
+   (get_local $1)
+   (i32.sub
+    (get_local $0)
+    (i32.const 8)
+   )
+  )
+ )
+ (func $~lib/allocator/tlsf/__memory_free (; 23 ;) (; has Stack IR ;) (type $iv) (param $0 i32)
+  (if
+   (get_local $0)
+   (block
+    (call $~lib/allocator/tlsf/lock)
+    (call $~lib/allocator/tlsf/free
+     (get_local $0)
+    )
+    (call $~lib/allocator/tlsf/unlock)
+   )
+  )
+ )
+ (func $start (; 24 ;) (; has Stack IR ;) (type $v)
+  (i32.atomic.store
+   (i32.const 8)
+   (i32.const 10)
+  )
+  (if
+   (i32.ne
+    (i32.atomic.load
+     (i32.const 8)
+    )
+    (i32.const 10)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 6)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.atomic.rmw.add
+     (i32.const 8)
+     (i32.const 5)
+    )
+    (i32.const 10)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 7)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.atomic.rmw.sub
+     (i32.const 8)
+     (i32.const 3)
+    )
+    (i32.const 15)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 8)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.atomic.rmw.and
+     (i32.const 8)
+     (i32.const 10)
+    )
+    (i32.const 12)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 9)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.atomic.rmw.or
+     (i32.const 8)
+     (i32.const 5)
+    )
+    (i32.const 8)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 10)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.atomic.rmw.xor
+     (i32.const 8)
+     (i32.const 15)
+    )
+    (i32.const 13)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 11)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.atomic.rmw.xchg
+     (i32.const 8)
+     (i32.const 42)
+    )
+    (i32.const 2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 12)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.atomic.rmw.cmpxchg
+     (i32.const 8)
+     (i32.const 0)
+     (i32.const 1)
+    )
+    (i32.const 42)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 13)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.atomic.rmw.cmpxchg
+     (i32.const 8)
+     (i32.const 42)
+     (i32.const 1)
+    )
+    (i32.const 42)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 14)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.atomic.load
+     (i32.const 8)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 15)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.atomic.store8
+   (i32.const 12)
+   (i32.const 255)
+  )
+  (if
+   (i32.ne
+    (i32.atomic.load8_u
+     (i32.const 12)
+    )
+    (i32.const 255)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 18)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.and
+     (i32.atomic.rmw8_u.add offset=4
+      (i32.const 8)
+      (i32.const 1)
+     )
+     (i32.const 255)
+    )
+    (i32.const 255)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 19)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.atomic.load8_u
+    (i32.const 12)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 20)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.atomic.load
+     (i32.const 8)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 21)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i64.atomic.store
+   (i32.const 8)
+   (i64.const 4294967296)
+  )
+  (if
+   (i64.ne
+    (i64.atomic.rmw.add
+     (i32.const 8)
+     (i64.const 1)
+    )
+    (i64.const 4294967296)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 24)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i64.ne
+    (i64.atomic.load
+     (i32.const 8)
+    )
+    (i64.const 4294967297)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 25)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (i32.wait
+     (i32.const 8)
+     (i32.const 0)
+     (i64.const 0)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 27)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (wake
+    (i32.const 8)
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 28)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $threads/a
+   (call $~lib/allocator/tlsf/__memory_allocate)
+  )
+  (set_global $threads/b
+   (call $~lib/allocator/tlsf/__memory_allocate)
+  )
+  (if
+   (i32.eq
+    (get_global $threads/a)
+    (get_global $threads/b)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 33)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/allocator/tlsf/__memory_free
+   (get_global $threads/a)
+  )
+  (if
+   (i32.ne
+    (call $~lib/allocator/tlsf/__memory_allocate)
+    (get_global $threads/a)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 35)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/allocator/tlsf/__memory_free
+   (get_global $threads/b)
+  )
+ )
+)
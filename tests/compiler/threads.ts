@@ -0,0 +1,36 @@
+import "allocator/tlsf";
+
+const ptr: usize = 8;
+
+atomic.store<i32>(ptr, 10);
+assert(atomic.load<i32>(ptr) == 10);
+assert(atomic.add<i32>(ptr, 5) == 10);
+assert(atomic.sub<i32>(ptr, 3) == 15);
+assert(atomic.and<i32>(ptr, 0b1010) == 12);
+assert(atomic.or<i32>(ptr, 0b0101) == 8);
+assert(atomic.xor<i32>(ptr, 0b1111) == 13);
+assert(atomic.xchg<i32>(ptr, 42) == 2);
+assert(atomic.cmpxchg<i32>(ptr, 0, 1) == 42); // not replaced
+assert(atomic.cmpxchg<i32>(ptr, 42, 1) == 42); // replaced
+assert(atomic.load<i32>(ptr) == 1);
+
+atomic.store<u8>(ptr, 0xff, 4);
+assert(atomic.load<u8>(ptr, 4) == 0xff);
+assert(atomic.add<u8>(ptr, 1, 4) == 0xff);
+assert(atomic.load<u8>(ptr, 4) == 0); // wraps
+assert(atomic.load<u32>(ptr) == 1);
+
+atomic.store<i64>(ptr, 0x100000000);
+assert(atomic.add<i64>(ptr, 1) == 0x100000000);
+assert(atomic.load<i64>(ptr) == 0x100000001);
+
+assert(atomic.wait<i32>(ptr, 0, 0) == 1); // not equal
+assert(atomic.notify(ptr, 1) == 0); // no waiters
+
+// thread-safe allocator
+var a = memory.allocate(16);
+var b = memory.allocate(16);
+assert(a != b);
+memory.free(a);
+assert(memory.allocate(16) == a);
+memory.free(b);
@@ -0,0 +1,2670 @@
+(module
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $ii (func (param i32) (result i32)))
+ (type $v (func))
+ (type $i (func (result i32)))
+ (type $iiv (func (param i32 i32)))
+ (type $iiiv (func (param i32 i32 i32)))
+ (type $iiii (func (param i32 i32 i32) (result i32)))
+ (type $iii (func (param i32 i32) (result i32)))
+ (type $iv (func (param i32)))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/internal/allocator/AL_BITS i32 (i32.const 3))
+ (global $~lib/internal/allocator/AL_SIZE i32 (i32.const 8))
+ (global $~lib/internal/allocator/AL_MASK i32 (i32.const 7))
+ (global $~lib/internal/allocator/MAX_SIZE_32 i32 (i32.const 1073741824))
+ (global $~lib/allocator/tlsf/SL_BITS i32 (i32.const 5))
+ (global $~lib/allocator/tlsf/SL_SIZE i32 (i32.const 32))
+ (global $~lib/allocator/tlsf/SB_BITS i32 (i32.const 8))
+ (global $~lib/allocator/tlsf/SB_SIZE i32 (i32.const 256))
+ (global $~lib/allocator/tlsf/FL_BITS i32 (i32.const 22))
+ (global $~lib/allocator/tlsf/FREE i32 (i32.const 1))
+ (global $~lib/allocator/tlsf/LEFT_FREE i32 (i32.const 2))
+ (global $~lib/allocator/tlsf/TAGS i32 (i32.const 3))
+ (global $~lib/allocator/tlsf/ROOT (mut i32) (i32.const 0))
+ (global $threads/ptr i32 (i32.const 8))
+ (global $ASC_FEATURE_THREADS i32 (i32.const 0))
+ (global $~lib/allocator/tlsf/Root.SL_START i32 (i32.const 4))
+ (global $~lib/allocator/tlsf/Root.SL_END i32 (i32.const 92))
+ (global $~lib/allocator/tlsf/Root.HL_START i32 (i32.const 96))
+ (global $~lib/allocator/tlsf/Root.HL_END i32 (i32.const 2912))
+ (global $~lib/allocator/tlsf/Root.SIZE i32 (i32.const 2916))
+ (global $~lib/allocator/tlsf/Block.INFO i32 (i32.const 8))
+ (global $~lib/allocator/tlsf/Block.MIN_SIZE i32 (i32.const 16))
+ (global $~lib/allocator/tlsf/Block.MAX_SIZE i32 (i32.const 1073741824))
+ (global $threads/a (mut i32) (i32.const 0))
+ (global $threads/b (mut i32) (i32.const 0))
+ (global $HEAP_BASE i32 (i32.const 80))
+ (memory $0 1 32768 shared)
+ (data (i32.const 8) "\16\00\00\00~\00l\00i\00b\00/\00a\00l\00l\00o\00c\00a\00t\00o\00r\00/\00t\00l\00s\00f\00.\00t\00s\00")
+ (data (i32.const 56) "\n\00\00\00t\00h\00r\00e\00a\00d\00s\00.\00t\00s\00")
+ (export "memory" (memory $0))
+ (start $start)
+ (func $~lib/allocator/tlsf/lock (; 1 ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $0
+   (block $~lib/allocator/tlsf/lockOffset|inlined.0 (result i32)
+    (i32.and
+     (i32.add
+      (get_global $HEAP_BASE)
+      (get_global $~lib/internal/allocator/AL_MASK)
+     )
+     (i32.xor
+      (get_global $~lib/internal/allocator/AL_MASK)
+      (i32.const -1)
+     )
+    )
+   )
+  )
+  (set_local $1
+   (current_memory)
+  )
+  (set_local $2
+   (i32.shr_u
+    (i32.and
+     (i32.add
+      (i32.add
+       (get_local $0)
+       (get_global $~lib/internal/allocator/AL_SIZE)
+      )
+      (i32.const 65535)
+     )
+     (i32.xor
+      (i32.const 65535)
+      (i32.const -1)
+     )
+    )
+    (i32.const 16)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $3
+     (i32.gt_s
+      (get_local $2)
+      (get_local $1)
+     )
+    )
+    (i32.lt_s
+     (grow_memory
+      (i32.sub
+       (get_local $2)
+       (get_local $1)
+      )
+     )
+     (i32.const 0)
+    )
+    (get_local $3)
+   )
+   (unreachable)
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.atomic.rmw.cmpxchg
+      (get_local $0)
+      (i32.const 0)
+      (i32.const 1)
+     )
+     (block
+      (nop)
+      (br $continue|0)
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#set:tailRef (; 2 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (i32.store offset=2912
+   (i32.const 0)
+   (get_local $1)
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#setSLMap (; 3 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (if
+   (i32.eqz
+    (i32.lt_u
+     (get_local $1)
+     (get_global $~lib/allocator/tlsf/FL_BITS)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 144)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=4
+   (i32.add
+    (get_local $0)
+    (i32.mul
+     (get_local $1)
+     (i32.const 4)
+    )
+   )
+   (get_local $2)
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#setHead (; 4 ;) (type $iiiiv) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32)
+  (if
+   (i32.eqz
+    (i32.lt_u
+     (get_local $1)
+     (get_global $~lib/allocator/tlsf/FL_BITS)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 167)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.lt_u
+     (get_local $2)
+     (get_global $~lib/allocator/tlsf/SL_SIZE)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 168)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store offset=96
+   (i32.add
+    (get_local $0)
+    (i32.mul
+     (i32.add
+      (i32.mul
+       (get_local $1)
+       (get_global $~lib/allocator/tlsf/SL_SIZE)
+      )
+      (get_local $2)
+     )
+     (i32.const 4)
+    )
+   )
+   (get_local $3)
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#get:tailRef (; 5 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.load offset=2912
+   (i32.const 0)
+  )
+ )
+ (func $~lib/allocator/tlsf/Block#get:right (; 6 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eqz
+    (i32.and
+     (i32.load
+      (get_local $0)
+     )
+     (i32.xor
+      (get_global $~lib/allocator/tlsf/TAGS)
+      (i32.const -1)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 89)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if (result i32)
+   (i32.eqz
+    (tee_local $1
+     (i32.add
+      (i32.add
+       (get_local $0)
+       (get_global $~lib/allocator/tlsf/Block.INFO)
+      )
+      (i32.and
+       (i32.load
+        (get_local $0)
+       )
+       (i32.xor
+        (get_global $~lib/allocator/tlsf/TAGS)
+        (i32.const -1)
+       )
+      )
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 90)
+     (i32.const 11)
+    )
+    (unreachable)
+   )
+   (get_local $1)
+  )
+ )
+ (func $~lib/allocator/tlsf/fls<usize> (; 7 ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eqz
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 428)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.sub
+   (i32.const 31)
+   (i32.clz
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#getHead (; 8 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (if
+   (i32.eqz
+    (i32.lt_u
+     (get_local $1)
+     (get_global $~lib/allocator/tlsf/FL_BITS)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 158)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.lt_u
+     (get_local $2)
+     (get_global $~lib/allocator/tlsf/SL_SIZE)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 159)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (i32.load offset=96
+   (i32.add
+    (get_local $0)
+    (i32.mul
+     (i32.add
+      (i32.mul
+       (get_local $1)
+       (get_global $~lib/allocator/tlsf/SL_SIZE)
+      )
+      (get_local $2)
+     )
+     (i32.const 4)
+    )
+   )
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#getSLMap (; 9 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (if
+   (i32.eqz
+    (i32.lt_u
+     (get_local $1)
+     (get_global $~lib/allocator/tlsf/FL_BITS)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 138)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (i32.load offset=4
+   (i32.add
+    (get_local $0)
+    (i32.mul
+     (get_local $1)
+     (i32.const 4)
+    )
+   )
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#remove (; 10 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (set_local $2
+   (i32.load
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (get_local $2)
+     (get_global $~lib/allocator/tlsf/FREE)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 258)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $3
+   (i32.and
+    (get_local $2)
+    (i32.xor
+     (get_global $~lib/allocator/tlsf/TAGS)
+     (i32.const -1)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $4
+      (i32.ge_u
+       (get_local $3)
+       (get_global $~lib/allocator/tlsf/Block.MIN_SIZE)
+      )
+     )
+     (i32.lt_u
+      (get_local $3)
+      (get_global $~lib/allocator/tlsf/Block.MAX_SIZE)
+     )
+     (get_local $4)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 260)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.lt_u
+    (get_local $3)
+    (get_global $~lib/allocator/tlsf/SB_SIZE)
+   )
+   (block
+    (set_local $5
+     (i32.const 0)
+    )
+    (set_local $6
+     (i32.div_u
+      (get_local $3)
+      (get_global $~lib/internal/allocator/AL_SIZE)
+     )
+    )
+   )
+   (block
+    (set_local $5
+     (call $~lib/allocator/tlsf/fls<usize>
+      (get_local $3)
+     )
+    )
+    (set_local $6
+     (i32.xor
+      (i32.shr_u
+       (get_local $3)
+       (i32.sub
+        (get_local $5)
+        (get_global $~lib/allocator/tlsf/SL_BITS)
+       )
+      )
+      (i32.shl
+       (i32.const 1)
+       (get_global $~lib/allocator/tlsf/SL_BITS)
+      )
+     )
+    )
+    (set_local $5
+     (i32.sub
+      (get_local $5)
+      (i32.sub
+       (get_global $~lib/allocator/tlsf/SB_BITS)
+       (i32.const 1)
+      )
+     )
+    )
+   )
+  )
+  (set_local $7
+   (i32.load offset=4
+    (get_local $1)
+   )
+  )
+  (set_local $8
+   (i32.load offset=8
+    (get_local $1)
+   )
+  )
+  (if
+   (get_local $7)
+   (i32.store offset=8
+    (get_local $7)
+    (get_local $8)
+   )
+  )
+  (if
+   (get_local $8)
+   (i32.store offset=4
+    (get_local $8)
+    (get_local $7)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (call $~lib/allocator/tlsf/Root#getHead
+     (get_local $0)
+     (get_local $5)
+     (get_local $6)
+    )
+   )
+   (block
+    (call $~lib/allocator/tlsf/Root#setHead
+     (get_local $0)
+     (get_local $5)
+     (get_local $6)
+     (get_local $8)
+    )
+    (if
+     (i32.eqz
+      (get_local $8)
+     )
+     (block
+      (set_local $4
+       (call $~lib/allocator/tlsf/Root#getSLMap
+        (get_local $0)
+        (get_local $5)
+       )
+      )
+      (call $~lib/allocator/tlsf/Root#setSLMap
+       (get_local $0)
+       (get_local $5)
+       (tee_local $4
+        (i32.and
+         (get_local $4)
+         (i32.xor
+          (i32.shl
+           (i32.const 1)
+           (get_local $6)
+          )
+          (i32.const -1)
+         )
+        )
+       )
+      )
+      (if
+       (i32.eqz
+        (get_local $4)
+       )
+       (i32.store
+        (get_local $0)
+        (i32.and
+         (i32.load
+          (get_local $0)
+         )
+         (i32.xor
+          (i32.shl
+           (i32.const 1)
+           (get_local $5)
+          )
+          (i32.const -1)
+         )
+        )
+       )
+      )
+     )
+    )
+   )
+  )
+ )
+ (func $~lib/allocator/tlsf/Block#get:left (; 11 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eqz
+    (i32.and
+     (i32.load
+      (get_local $0)
+     )
+     (get_global $~lib/allocator/tlsf/LEFT_FREE)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 81)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if (result i32)
+   (i32.eqz
+    (tee_local $1
+     (i32.load
+      (i32.sub
+       (get_local $0)
+       (i32.const 4)
+      )
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 82)
+     (i32.const 11)
+    )
+    (unreachable)
+   )
+   (get_local $1)
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#setJump (; 12 ;) (type $iiiv) (param $0 i32) (param $1 i32) (param $2 i32)
+  (if
+   (i32.eqz
+    (i32.and
+     (i32.load
+      (get_local $1)
+     )
+     (get_global $~lib/allocator/tlsf/FREE)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 334)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $~lib/allocator/tlsf/Block#get:right
+      (get_local $1)
+     )
+     (get_local $2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 335)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (i32.load
+      (get_local $2)
+     )
+     (get_global $~lib/allocator/tlsf/LEFT_FREE)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 336)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (get_local $2)
+    (i32.const 4)
+   )
+   (get_local $1)
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#insert (; 13 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 189)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $2
+   (i32.load
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (get_local $2)
+     (get_global $~lib/allocator/tlsf/FREE)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 191)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $4
+      (i32.ge_u
+       (tee_local $3
+        (i32.and
+         (i32.load
+          (get_local $1)
+         )
+         (i32.xor
+          (get_global $~lib/allocator/tlsf/TAGS)
+          (i32.const -1)
+         )
+        )
+       )
+       (get_global $~lib/allocator/tlsf/Block.MIN_SIZE)
+      )
+     )
+     (i32.lt_u
+      (get_local $3)
+      (get_global $~lib/allocator/tlsf/Block.MAX_SIZE)
+     )
+     (get_local $4)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 193)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $5
+   (if (result i32)
+    (i32.eqz
+     (tee_local $4
+      (call $~lib/allocator/tlsf/Block#get:right
+       (get_local $1)
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 8)
+      (i32.const 197)
+      (i32.const 23)
+     )
+     (unreachable)
+    )
+    (get_local $4)
+   )
+  )
+  (set_local $6
+   (i32.load
+    (get_local $5)
+   )
+  )
+  (if
+   (i32.and
+    (get_local $6)
+    (get_global $~lib/allocator/tlsf/FREE)
+   )
+   (block
+    (call $~lib/allocator/tlsf/Root#remove
+     (get_local $0)
+     (get_local $5)
+    )
+    (i32.store
+     (get_local $1)
+     (tee_local $2
+      (i32.add
+       (get_local $2)
+       (i32.add
+        (get_global $~lib/allocator/tlsf/Block.INFO)
+        (i32.and
+         (get_local $6)
+         (i32.xor
+          (get_global $~lib/allocator/tlsf/TAGS)
+          (i32.const -1)
+         )
+        )
+       )
+      )
+     )
+    )
+    (set_local $5
+     (call $~lib/allocator/tlsf/Block#get:right
+      (get_local $1)
+     )
+    )
+    (set_local $6
+     (i32.load
+      (get_local $5)
+     )
+    )
+   )
+  )
+  (if
+   (i32.and
+    (get_local $2)
+    (get_global $~lib/allocator/tlsf/LEFT_FREE)
+   )
+   (block
+    (set_local $4
+     (if (result i32)
+      (i32.eqz
+       (tee_local $4
+        (call $~lib/allocator/tlsf/Block#get:left
+         (get_local $1)
+        )
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 8)
+        (i32.const 211)
+        (i32.const 24)
+       )
+       (unreachable)
+      )
+      (get_local $4)
+     )
+    )
+    (set_local $7
+     (i32.load
+      (get_local $4)
+     )
+    )
+    (if
+     (i32.eqz
+      (i32.and
+       (get_local $7)
+       (get_global $~lib/allocator/tlsf/FREE)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 8)
+       (i32.const 213)
+       (i32.const 6)
+      )
+      (unreachable)
+     )
+    )
+    (call $~lib/allocator/tlsf/Root#remove
+     (get_local $0)
+     (get_local $4)
+    )
+    (i32.store
+     (get_local $4)
+     (tee_local $7
+      (i32.add
+       (get_local $7)
+       (i32.add
+        (get_global $~lib/allocator/tlsf/Block.INFO)
+        (i32.and
+         (get_local $2)
+         (i32.xor
+          (get_global $~lib/allocator/tlsf/TAGS)
+          (i32.const -1)
+         )
+        )
+       )
+      )
+     )
+    )
+    (set_local $1
+     (get_local $4)
+    )
+    (set_local $2
+     (get_local $7)
+    )
+   )
+  )
+  (i32.store
+   (get_local $5)
+   (i32.or
+    (get_local $6)
+    (get_global $~lib/allocator/tlsf/LEFT_FREE)
+   )
+  )
+  (call $~lib/allocator/tlsf/Root#setJump
+   (get_local $0)
+   (get_local $1)
+   (get_local $5)
+  )
+  (set_local $3
+   (i32.and
+    (get_local $2)
+    (i32.xor
+     (get_global $~lib/allocator/tlsf/TAGS)
+     (i32.const -1)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $7
+      (i32.ge_u
+       (get_local $3)
+       (get_global $~lib/allocator/tlsf/Block.MIN_SIZE)
+      )
+     )
+     (i32.lt_u
+      (get_local $3)
+      (get_global $~lib/allocator/tlsf/Block.MAX_SIZE)
+     )
+     (get_local $7)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 226)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.lt_u
+    (get_local $3)
+    (get_global $~lib/allocator/tlsf/SB_SIZE)
+   )
+   (block
+    (set_local $8
+     (i32.const 0)
+    )
+    (set_local $9
+     (i32.div_u
+      (get_local $3)
+      (get_global $~lib/internal/allocator/AL_SIZE)
+     )
+    )
+   )
+   (block
+    (set_local $8
+     (call $~lib/allocator/tlsf/fls<usize>
+      (get_local $3)
+     )
+    )
+    (set_local $9
+     (i32.xor
+      (i32.shr_u
+       (get_local $3)
+       (i32.sub
+        (get_local $8)
+        (get_global $~lib/allocator/tlsf/SL_BITS)
+       )
+      )
+      (i32.shl
+       (i32.const 1)
+       (get_global $~lib/allocator/tlsf/SL_BITS)
+      )
+     )
+    )
+    (set_local $8
+     (i32.sub
+      (get_local $8)
+      (i32.sub
+       (get_global $~lib/allocator/tlsf/SB_BITS)
+       (i32.const 1)
+      )
+     )
+    )
+   )
+  )
+  (set_local $10
+   (call $~lib/allocator/tlsf/Root#getHead
+    (get_local $0)
+    (get_local $8)
+    (get_local $9)
+   )
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=8
+   (get_local $1)
+   (get_local $10)
+  )
+  (if
+   (get_local $10)
+   (i32.store offset=4
+    (get_local $10)
+    (get_local $1)
+   )
+  )
+  (call $~lib/allocator/tlsf/Root#setHead
+   (get_local $0)
+   (get_local $8)
+   (get_local $9)
+   (get_local $1)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.or
+    (i32.load
+     (get_local $0)
+    )
+    (i32.shl
+     (i32.const 1)
+     (get_local $8)
+    )
+   )
+  )
+  (call $~lib/allocator/tlsf/Root#setSLMap
+   (get_local $0)
+   (get_local $8)
+   (i32.or
+    (call $~lib/allocator/tlsf/Root#getSLMap
+     (get_local $0)
+     (get_local $8)
+    )
+    (i32.shl
+     (i32.const 1)
+     (get_local $9)
+    )
+   )
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#addMemory (; 14 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (if
+   (i32.eqz
+    (i32.le_u
+     (get_local $1)
+     (get_local $2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 377)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eqz
+     (i32.and
+      (get_local $1)
+      (get_global $~lib/internal/allocator/AL_MASK)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 378)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eqz
+     (i32.and
+      (get_local $2)
+      (get_global $~lib/internal/allocator/AL_MASK)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 379)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (set_local $3
+   (call $~lib/allocator/tlsf/Root#get:tailRef
+    (get_local $0)
+   )
+  )
+  (set_local $4
+   (i32.const 0)
+  )
+  (if
+   (get_local $3)
+   (block
+    (if
+     (i32.eqz
+      (i32.ge_u
+       (get_local $1)
+       (i32.add
+        (get_local $3)
+        (i32.const 4)
+       )
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 8)
+       (i32.const 384)
+       (i32.const 6)
+      )
+      (unreachable)
+     )
+    )
+    (if
+     (i32.eq
+      (i32.sub
+       (get_local $1)
+       (get_global $~lib/allocator/tlsf/Block.INFO)
+      )
+      (get_local $3)
+     )
+     (block
+      (set_local $1
+       (i32.sub
+        (get_local $1)
+        (get_global $~lib/allocator/tlsf/Block.INFO)
+       )
+      )
+      (set_local $4
+       (i32.load
+        (get_local $3)
+       )
+      )
+     )
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.ge_u
+      (get_local $1)
+      (i32.add
+       (get_local $0)
+       (get_global $~lib/allocator/tlsf/Root.SIZE)
+      )
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 8)
+      (i32.const 393)
+      (i32.const 6)
+     )
+     (unreachable)
+    )
+   )
+  )
+  (set_local $5
+   (i32.sub
+    (get_local $2)
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.lt_u
+    (get_local $5)
+    (i32.add
+     (i32.add
+      (get_global $~lib/allocator/tlsf/Block.INFO)
+      (get_global $~lib/allocator/tlsf/Block.MIN_SIZE)
+     )
+     (get_global $~lib/allocator/tlsf/Block.INFO)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $6
+   (i32.sub
+    (get_local $5)
+    (i32.mul
+     (i32.const 2)
+     (get_global $~lib/allocator/tlsf/Block.INFO)
+    )
+   )
+  )
+  (set_local $7
+   (get_local $1)
+  )
+  (i32.store
+   (get_local $7)
+   (i32.or
+    (i32.or
+     (get_local $6)
+     (get_global $~lib/allocator/tlsf/FREE)
+    )
+    (i32.and
+     (get_local $4)
+     (get_global $~lib/allocator/tlsf/LEFT_FREE)
+    )
+   )
+  )
+  (i32.store offset=4
+   (get_local $7)
+   (i32.const 0)
+  )
+  (i32.store offset=8
+   (get_local $7)
+   (i32.const 0)
+  )
+  (set_local $8
+   (i32.sub
+    (i32.add
+     (get_local $1)
+     (get_local $5)
+    )
+    (get_global $~lib/allocator/tlsf/Block.INFO)
+   )
+  )
+  (i32.store
+   (get_local $8)
+   (i32.or
+    (i32.const 0)
+    (get_global $~lib/allocator/tlsf/LEFT_FREE)
+   )
+  )
+  (call $~lib/allocator/tlsf/Root#set:tailRef
+   (get_local $0)
+   (get_local $8)
+  )
+  (call $~lib/allocator/tlsf/Root#insert
+   (get_local $0)
+   (get_local $7)
+  )
+  (i32.const 1)
+ )
+ (func $~lib/allocator/tlsf/initialize (; 15 ;) (type $i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $0
+   (i32.and
+    (i32.add
+     (get_global $HEAP_BASE)
+     (get_global $~lib/internal/allocator/AL_MASK)
+    )
+    (i32.xor
+     (get_global $~lib/internal/allocator/AL_MASK)
+     (i32.const -1)
+    )
+   )
+  )
+  (set_local $0
+   (i32.add
+    (get_local $0)
+    (get_global $~lib/internal/allocator/AL_SIZE)
+   )
+  )
+  (if
+   (i32.atomic.load offset=4
+    (block $~lib/allocator/tlsf/lockOffset|inlined.2 (result i32)
+     (i32.and
+      (i32.add
+       (get_global $HEAP_BASE)
+       (get_global $~lib/internal/allocator/AL_MASK)
+      )
+      (i32.xor
+       (get_global $~lib/internal/allocator/AL_MASK)
+       (i32.const -1)
+      )
+     )
+    )
+   )
+   (return
+    (get_local $0)
+   )
+  )
+  (set_local $1
+   (current_memory)
+  )
+  (set_local $2
+   (i32.shr_u
+    (i32.and
+     (i32.add
+      (i32.add
+       (get_local $0)
+       (get_global $~lib/allocator/tlsf/Root.SIZE)
+      )
+      (i32.const 65535)
+     )
+     (i32.xor
+      (i32.const 65535)
+      (i32.const -1)
+     )
+    )
+    (i32.const 16)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $3
+     (i32.gt_s
+      (get_local $2)
+      (get_local $1)
+     )
+    )
+    (i32.lt_s
+     (grow_memory
+      (i32.sub
+       (get_local $2)
+       (get_local $1)
+      )
+     )
+     (i32.const 0)
+    )
+    (get_local $3)
+   )
+   (unreachable)
+  )
+  (set_local $4
+   (get_local $0)
+  )
+  (call $~lib/allocator/tlsf/Root#set:tailRef
+   (get_local $4)
+   (i32.const 0)
+  )
+  (i32.store
+   (get_local $4)
+   (i32.const 0)
+  )
+  (block $break|0
+   (set_local $3
+    (i32.const 0)
+   )
+   (loop $repeat|0
+    (br_if $break|0
+     (i32.eqz
+      (i32.lt_u
+       (get_local $3)
+       (get_global $~lib/allocator/tlsf/FL_BITS)
+      )
+     )
+    )
+    (block
+     (call $~lib/allocator/tlsf/Root#setSLMap
+      (get_local $4)
+      (get_local $3)
+      (i32.const 0)
+     )
+     (block $break|1
+      (set_local $5
+       (i32.const 0)
+      )
+      (loop $repeat|1
+       (br_if $break|1
+        (i32.eqz
+         (i32.lt_u
+          (get_local $5)
+          (get_global $~lib/allocator/tlsf/SL_SIZE)
+         )
+        )
+       )
+       (call $~lib/allocator/tlsf/Root#setHead
+        (get_local $4)
+        (get_local $3)
+        (get_local $5)
+        (i32.const 0)
+       )
+       (set_local $5
+        (i32.add
+         (get_local $5)
+         (i32.const 1)
+        )
+       )
+       (br $repeat|1)
+      )
+     )
+    )
+    (set_local $3
+     (i32.add
+      (get_local $3)
+      (i32.const 1)
+     )
+    )
+    (br $repeat|0)
+   )
+  )
+  (drop
+   (call $~lib/allocator/tlsf/Root#addMemory
+    (get_local $4)
+    (i32.and
+     (i32.add
+      (i32.add
+       (get_local $0)
+       (get_global $~lib/allocator/tlsf/Root.SIZE)
+      )
+      (get_global $~lib/internal/allocator/AL_MASK)
+     )
+     (i32.xor
+      (get_global $~lib/internal/allocator/AL_MASK)
+      (i32.const -1)
+     )
+    )
+    (i32.shl
+     (current_memory)
+     (i32.const 16)
+    )
+   )
+  )
+  (i32.atomic.store offset=4
+   (block $~lib/allocator/tlsf/lockOffset|inlined.3 (result i32)
+    (i32.and
+     (i32.add
+      (get_global $HEAP_BASE)
+      (get_global $~lib/internal/allocator/AL_MASK)
+     )
+     (i32.xor
+      (get_global $~lib/internal/allocator/AL_MASK)
+      (i32.const -1)
+     )
+    )
+   )
+   (i32.const 1)
+  )
+  (get_local $4)
+ )
+ (func $~lib/allocator/tlsf/ffs<usize> (; 16 ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eqz
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 422)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.ctz
+   (get_local $0)
+  )
+ )
+ (func $~lib/allocator/tlsf/ffs<u32> (; 17 ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.eqz
+    (i32.ne
+     (get_local $0)
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 422)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.ctz
+   (get_local $0)
+  )
+ )
+ (func $~lib/allocator/tlsf/Root#search (; 18 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $2
+      (i32.ge_u
+       (get_local $1)
+       (get_global $~lib/allocator/tlsf/Block.MIN_SIZE)
+      )
+     )
+     (i32.lt_u
+      (get_local $1)
+      (get_global $~lib/allocator/tlsf/Block.MAX_SIZE)
+     )
+     (get_local $2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 296)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.lt_u
+    (get_local $1)
+    (get_global $~lib/allocator/tlsf/SB_SIZE)
+   )
+   (block
+    (set_local $3
+     (i32.const 0)
+    )
+    (set_local $4
+     (i32.div_u
+      (get_local $1)
+      (get_global $~lib/internal/allocator/AL_SIZE)
+     )
+    )
+   )
+   (block
+    (set_local $3
+     (call $~lib/allocator/tlsf/fls<usize>
+      (get_local $1)
+     )
+    )
+    (set_local $4
+     (i32.xor
+      (i32.shr_u
+       (get_local $1)
+       (i32.sub
+        (get_local $3)
+        (get_global $~lib/allocator/tlsf/SL_BITS)
+       )
+      )
+      (i32.shl
+       (i32.const 1)
+       (get_global $~lib/allocator/tlsf/SL_BITS)
+      )
+     )
+    )
+    (set_local $3
+     (i32.sub
+      (get_local $3)
+      (i32.sub
+       (get_global $~lib/allocator/tlsf/SB_BITS)
+       (i32.const 1)
+      )
+     )
+    )
+    (if
+     (i32.lt_u
+      (get_local $4)
+      (i32.sub
+       (get_global $~lib/allocator/tlsf/SL_SIZE)
+       (i32.const 1)
+      )
+     )
+     (set_local $4
+      (i32.add
+       (get_local $4)
+       (i32.const 1)
+      )
+     )
+     (block
+      (set_local $3
+       (i32.add
+        (get_local $3)
+        (i32.const 1)
+       )
+      )
+      (set_local $4
+       (i32.const 0)
+      )
+     )
+    )
+   )
+  )
+  (set_local $5
+   (i32.and
+    (call $~lib/allocator/tlsf/Root#getSLMap
+     (get_local $0)
+     (get_local $3)
+    )
+    (i32.shl
+     (i32.xor
+      (i32.const 0)
+      (i32.const -1)
+     )
+     (get_local $4)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $5)
+   )
+   (block
+    (set_local $2
+     (i32.and
+      (i32.load
+       (get_local $0)
+      )
+      (i32.shl
+       (i32.xor
+        (i32.const 0)
+        (i32.const -1)
+       )
+       (i32.add
+        (get_local $3)
+        (i32.const 1)
+       )
+      )
+     )
+    )
+    (if
+     (i32.eqz
+      (get_local $2)
+     )
+     (set_local $6
+      (i32.const 0)
+     )
+     (block
+      (set_local $3
+       (call $~lib/allocator/tlsf/ffs<usize>
+        (get_local $2)
+       )
+      )
+      (set_local $5
+       (if (result i32)
+        (tee_local $7
+         (call $~lib/allocator/tlsf/Root#getSLMap
+          (get_local $0)
+          (get_local $3)
+         )
+        )
+        (get_local $7)
+        (block
+         (call $~lib/env/abort
+          (i32.const 0)
+          (i32.const 8)
+          (i32.const 323)
+          (i32.const 16)
+         )
+         (unreachable)
+        )
+       )
+      )
+      (set_local $6
+       (call $~lib/allocator/tlsf/Root#getHead
+        (get_local $0)
+        (get_local $3)
+        (call $~lib/allocator/tlsf/ffs<u32>
+         (get_local $5)
+        )
+       )
+      )
+     )
+    )
+   )
+   (set_local $6
+    (call $~lib/allocator/tlsf/Root#getHead
+     (get_local $0)
+     (get_local $3)
+     (call $~lib/allocator/tlsf/ffs<u32>
+      (get_local $5)
+     )
+    )
+   )
+  )
+  (get_local $6)
+ )
+ (func $~lib/allocator/tlsf/Root#use (; 19 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (set_local $3
+   (i32.load
+    (get_local $1)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.and
+     (get_local $3)
+     (get_global $~lib/allocator/tlsf/FREE)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 348)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $4
+      (i32.ge_u
+       (get_local $2)
+       (get_global $~lib/allocator/tlsf/Block.MIN_SIZE)
+      )
+     )
+     (i32.lt_u
+      (get_local $2)
+      (get_global $~lib/allocator/tlsf/Block.MAX_SIZE)
+     )
+     (get_local $4)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 349)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eqz
+     (i32.and
+      (get_local $2)
+      (get_global $~lib/internal/allocator/AL_MASK)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 350)
+     (i32.const 4)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/allocator/tlsf/Root#remove
+   (get_local $0)
+   (get_local $1)
+  )
+  (set_local $5
+   (i32.sub
+    (i32.and
+     (get_local $3)
+     (i32.xor
+      (get_global $~lib/allocator/tlsf/TAGS)
+      (i32.const -1)
+     )
+    )
+    (get_local $2)
+   )
+  )
+  (if
+   (i32.ge_u
+    (get_local $5)
+    (i32.add
+     (get_global $~lib/allocator/tlsf/Block.INFO)
+     (get_global $~lib/allocator/tlsf/Block.MIN_SIZE)
+    )
+   )
+   (block
+    (i32.store
+     (get_local $1)
+     (i32.or
+      (get_local $2)
+      (i32.and
+       (get_local $3)
+       (get_global $~lib/allocator/tlsf/LEFT_FREE)
+      )
+     )
+    )
+    (set_local $4
+     (i32.add
+      (i32.add
+       (get_local $1)
+       (get_global $~lib/allocator/tlsf/Block.INFO)
+      )
+      (get_local $2)
+     )
+    )
+    (i32.store
+     (get_local $4)
+     (i32.or
+      (i32.sub
+       (get_local $5)
+       (get_global $~lib/allocator/tlsf/Block.INFO)
+      )
+      (get_global $~lib/allocator/tlsf/FREE)
+     )
+    )
+    (call $~lib/allocator/tlsf/Root#insert
+     (get_local $0)
+     (get_local $4)
+    )
+   )
+   (block
+    (i32.store
+     (get_local $1)
+     (i32.and
+      (get_local $3)
+      (i32.xor
+       (get_global $~lib/allocator/tlsf/FREE)
+       (i32.const -1)
+      )
+     )
+    )
+    (set_local $4
+     (if (result i32)
+      (i32.eqz
+       (tee_local $4
+        (call $~lib/allocator/tlsf/Block#get:right
+         (get_local $1)
+        )
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 8)
+        (i32.const 368)
+        (i32.const 25)
+       )
+       (unreachable)
+      )
+      (get_local $4)
+     )
+    )
+    (i32.store
+     (get_local $4)
+     (i32.and
+      (i32.load
+       (get_local $4)
+      )
+      (i32.xor
+       (get_global $~lib/allocator/tlsf/LEFT_FREE)
+       (i32.const -1)
+      )
+     )
+    )
+   )
+  )
+  (i32.add
+   (get_local $1)
+   (get_global $~lib/allocator/tlsf/Block.INFO)
+  )
+ )
+ (func $~lib/allocator/tlsf/allocate (; 20 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (set_local $1
+   (get_global $~lib/allocator/tlsf/ROOT)
+  )
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (set_global $~lib/allocator/tlsf/ROOT
+    (tee_local $1
+     (call $~lib/allocator/tlsf/initialize)
+    )
+   )
+  )
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (get_global $~lib/allocator/tlsf/Block.MAX_SIZE)
+   )
+   (unreachable)
+  )
+  (set_local $0
+   (select
+    (tee_local $2
+     (i32.and
+      (i32.add
+       (get_local $0)
+       (get_global $~lib/internal/allocator/AL_MASK)
+      )
+      (i32.xor
+       (get_global $~lib/internal/allocator/AL_MASK)
+       (i32.const -1)
+      )
+     )
+    )
+    (tee_local $3
+     (get_global $~lib/allocator/tlsf/Block.MIN_SIZE)
+    )
+    (i32.gt_u
+     (get_local $2)
+     (get_local $3)
+    )
+   )
+  )
+  (set_local $4
+   (call $~lib/allocator/tlsf/Root#search
+    (get_local $1)
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $4)
+   )
+   (block
+    (set_local $2
+     (current_memory)
+    )
+    (set_local $3
+     (i32.shr_u
+      (i32.and
+       (i32.add
+        (get_local $0)
+        (i32.const 65535)
+       )
+       (i32.xor
+        (i32.const 65535)
+        (i32.const -1)
+       )
+      )
+      (i32.const 16)
+     )
+    )
+    (set_local $5
+     (select
+      (tee_local $5
+       (get_local $2)
+      )
+      (tee_local $6
+       (get_local $3)
+      )
+      (i32.gt_s
+       (get_local $5)
+       (get_local $6)
+      )
+     )
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $5)
+      )
+      (i32.const 0)
+     )
+     (if
+      (i32.lt_s
+       (grow_memory
+        (get_local $3)
+       )
+       (i32.const 0)
+      )
+      (unreachable)
+     )
+    )
+    (set_local $6
+     (current_memory)
+    )
+    (drop
+     (call $~lib/allocator/tlsf/Root#addMemory
+      (get_local $1)
+      (i32.shl
+       (get_local $2)
+       (i32.const 16)
+      )
+      (i32.shl
+       (get_local $6)
+       (i32.const 16)
+      )
+     )
+    )
+    (set_local $4
+     (if (result i32)
+      (i32.eqz
+       (tee_local $7
+        (call $~lib/allocator/tlsf/Root#search
+         (get_local $1)
+         (get_local $0)
+        )
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 8)
+        (i32.const 521)
+        (i32.const 12)
+       )
+       (unreachable)
+      )
+      (get_local $7)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.ge_u
+     (i32.and
+      (i32.load
+       (get_local $4)
+      )
+      (i32.xor
+       (get_global $~lib/allocator/tlsf/TAGS)
+       (i32.const -1)
+      )
+     )
+     (get_local $0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 524)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (call $~lib/allocator/tlsf/Root#use
+   (get_local $1)
+   (get_local $4)
+   (get_local $0)
+  )
+ )
+ (func $~lib/allocator/tlsf/unlock (; 21 ;) (type $v)
+  (i32.atomic.store
+   (block $~lib/allocator/tlsf/lockOffset|inlined.4 (result i32)
+    (i32.and
+     (i32.add
+      (get_global $HEAP_BASE)
+      (get_global $~lib/internal/allocator/AL_MASK)
+     )
+     (i32.xor
+      (get_global $~lib/internal/allocator/AL_MASK)
+      (i32.const -1)
+     )
+    )
+   )
+   (i32.const 0)
+  )
+ )
+ (func $~lib/allocator/tlsf/__memory_allocate (; 22 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (call $~lib/allocator/tlsf/lock)
+  (set_local $1
+   (call $~lib/allocator/tlsf/allocate
+    (get_local $0)
+   )
+  )
+  (call $~lib/allocator/tlsf/unlock)
+  (return
+   (get_local $1)
+  )
+ )
+ (func $~lib/allocator/tlsf/free (; 23 ;) (type $iv) (param $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $1
+   (get_global $~lib/allocator/tlsf/ROOT)
+  )
+  (if
+   (i32.eqz
+    (get_local $1)
+   )
+   (set_global $~lib/allocator/tlsf/ROOT
+    (tee_local $1
+     (call $~lib/allocator/tlsf/initialize)
+    )
+   )
+  )
+  (set_local $2
+   (i32.sub
+    (get_local $0)
+    (get_global $~lib/allocator/tlsf/Block.INFO)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $2)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eqz
+     (i32.and
+      (get_local $3)
+      (get_global $~lib/allocator/tlsf/FREE)
+     )
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 538)
+     (i32.const 2)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (get_local $2)
+   (i32.or
+    (get_local $3)
+    (get_global $~lib/allocator/tlsf/FREE)
+   )
+  )
+  (call $~lib/allocator/tlsf/Root#insert
+   (get_local $1)
+   (i32.sub
+    (get_local $0)
+    (get_global $~lib/allocator/tlsf/Block.INFO)
+   )
+  )
+ )
+ (func $~lib/allocator/tlsf/__memory_free (; 24 ;) (type $iv) (param $0 i32)
+  (if
+   (get_local $0)
+   (block
+    (call $~lib/allocator/tlsf/lock)
+    (call $~lib/allocator/tlsf/free
+     (get_local $0)
+    )
+    (call $~lib/allocator/tlsf/unlock)
+   )
+  )
+ )
+ (func $start (; 25 ;) (type $v)
+  (local $0 i32)
+  (if
+   (i32.eqz
+    (i32.le_s
+     (i32.shl
+      (i32.const 1)
+      (get_global $~lib/allocator/tlsf/SL_BITS)
+     )
+     (i32.const 32)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 122)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.atomic.store
+   (get_global $threads/ptr)
+   (i32.const 10)
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.atomic.load
+      (get_global $threads/ptr)
+     )
+     (i32.const 10)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 6)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.atomic.rmw.add
+      (get_global $threads/ptr)
+      (i32.const 5)
+     )
+     (i32.const 10)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 7)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.atomic.rmw.sub
+      (get_global $threads/ptr)
+      (i32.const 3)
+     )
+     (i32.const 15)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 8)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.atomic.rmw.and
+      (get_global $threads/ptr)
+      (i32.const 10)
+     )
+     (i32.const 12)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 9)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.atomic.rmw.or
+      (get_global $threads/ptr)
+      (i32.const 5)
+     )
+     (i32.const 8)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 10)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.atomic.rmw.xor
+      (get_global $threads/ptr)
+      (i32.const 15)
+     )
+     (i32.const 13)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 11)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.atomic.rmw.xchg
+      (get_global $threads/ptr)
+      (i32.const 42)
+     )
+     (i32.const 2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 12)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.atomic.rmw.cmpxchg
+      (get_global $threads/ptr)
+      (i32.const 0)
+      (i32.const 1)
+     )
+     (i32.const 42)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 13)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.atomic.rmw.cmpxchg
+      (get_global $threads/ptr)
+      (i32.const 42)
+      (i32.const 1)
+     )
+     (i32.const 42)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 14)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.atomic.load
+      (get_global $threads/ptr)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 15)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.atomic.store8 offset=4
+   (get_global $threads/ptr)
+   (i32.const 255)
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.atomic.load8_u offset=4
+      (get_global $threads/ptr)
+     )
+     (i32.const 255)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 18)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.and
+      (i32.atomic.rmw8_u.add offset=4
+       (get_global $threads/ptr)
+       (i32.const 1)
+      )
+      (i32.const 255)
+     )
+     (i32.const 255)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 19)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.atomic.load8_u offset=4
+      (get_global $threads/ptr)
+     )
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 20)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.atomic.load
+      (get_global $threads/ptr)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 21)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i64.atomic.store
+   (get_global $threads/ptr)
+   (i64.const 4294967296)
+  )
+  (if
+   (i32.eqz
+    (i64.eq
+     (i64.atomic.rmw.add
+      (get_global $threads/ptr)
+      (i64.const 1)
+     )
+     (i64.const 4294967296)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 24)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i64.eq
+     (i64.atomic.load
+      (get_global $threads/ptr)
+     )
+     (i64.const 4294967297)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 25)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.wait
+      (get_global $threads/ptr)
+      (i32.const 0)
+      (i64.const 0)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 27)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (wake
+      (get_global $threads/ptr)
+      (i32.const 1)
+     )
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 28)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $threads/a
+   (block $~lib/memory/memory.allocate|inlined.0 (result i32)
+    (set_local $0
+     (i32.const 16)
+    )
+    (br $~lib/memory/memory.allocate|inlined.0
+     (call $~lib/allocator/tlsf/__memory_allocate
+      (get_local $0)
+     )
+    )
+   )
+  )
+  (set_global $threads/b
+   (block $~lib/memory/memory.allocate|inlined.1 (result i32)
+    (set_local $0
+     (i32.const 16)
+    )
+    (br $~lib/memory/memory.allocate|inlined.1
+     (call $~lib/allocator/tlsf/__memory_allocate
+      (get_local $0)
+     )
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.ne
+     (get_global $threads/a)
+     (get_global $threads/b)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 33)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (block $~lib/memory/memory.free|inlined.0
+   (set_local $0
+    (get_global $threads/a)
+   )
+   (block
+    (call $~lib/allocator/tlsf/__memory_free
+     (get_local $0)
+    )
+    (br $~lib/memory/memory.free|inlined.0)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (block $~lib/memory/memory.allocate|inlined.2 (result i32)
+      (set_local $0
+       (i32.const 16)
+      )
+      (br $~lib/memory/memory.allocate|inlined.2
+       (call $~lib/allocator/tlsf/__memory_allocate
+        (get_local $0)
+       )
+      )
+     )
+     (get_global $threads/a)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 56)
+     (i32.const 35)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (block $~lib/memory/memory.free|inlined.1
+   (set_local $0
+    (get_global $threads/b)
+   )
+   (block
+    (call $~lib/allocator/tlsf/__memory_free
+     (get_local $0)
+    )
+    (br $~lib/memory/memory.free|inlined.1)
+   )
+  )
+ )
+)
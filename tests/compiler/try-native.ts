@@ -0,0 +1,8 @@
+// Expect error: Operation not supported
+import "allocator/arena";
+
+try {
+  throw new Error("native");
+} catch (e) {
+  e.message;
+}
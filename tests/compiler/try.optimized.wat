@@ -0,0 +1,959 @@
+(module
+ (type $i (func (result i32)))
+ (type $iii (func (param i32 i32) (result i32)))
+ (type $ii (func (param i32) (result i32)))
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $v (func))
+ (type $FUNCSIG$i (func (result i32)))
+ (type $FUNCSIG$ii (func (param i32) (result i32)))
+ (type $FUNCSIG$iiii (func (param i32 i32 i32) (result i32)))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
+ (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $try/caught (mut i32) (i32.const 0))
+ (global $~exception (mut i32) (i32.const 0))
+ (global $try/finallyRuns (mut i32) (i32.const 0))
+ (global $RTTI_BASE i32 (i32.const 136))
+ (memory $0 1)
+ (data (i32.const 8) "\06\00\00\00t\00h\00r\00o\00w\00n")
+ (data (i32.const 32) "\06\00\00\00t\00r\00y\00.\00t\00s")
+ (data (i32.const 48) "\08\00\00\00n\00e\00g\00a\00t\00i\00v\00e")
+ (data (i32.const 72) "\10\00\00\00~\00l\00i\00b\00/\00b\00u\00i\00l\00t\00i\00n\00s\00.\00t\00s")
+ (data (i32.const 112) "\08\00\00\00r\00e\00t\00h\00r\00o\00w\00n")
+ (data (i32.const 136) "\05\00\00\00\01")
+ (data (i32.const 152) "\02")
+ (data (i32.const 164) "\03\00\00\00\00\00\00\00\04\00\00\00\04\00\00\00\03\00\00\00\04\00\00\00\05\00\00\00\03\00\00\00\04")
+ (export "RTTI_BASE" (global $RTTI_BASE))
+ (export "memory" (memory $0))
+ (start $start)
+ (func $~lib/allocator/arena/__memory_allocate (; 1 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 1073741824)
+   )
+   (unreachable)
+  )
+  (if
+   (i32.gt_u
+    (tee_local $2
+     (i32.and
+      (i32.add
+       (i32.add
+        (tee_local $1
+         (get_global $~lib/allocator/arena/offset)
+        )
+        (select
+         (get_local $0)
+         (i32.const 1)
+         (i32.gt_u
+          (get_local $0)
+          (i32.const 1)
+         )
+        )
+       )
+       (i32.const 7)
+      )
+      (i32.const -8)
+     )
+    )
+    (i32.shl
+     (tee_local $3
+      (current_memory)
+     )
+     (i32.const 16)
+    )
+   )
+   (if
+    (i32.lt_s
+     (grow_memory
+      (select
+       (get_local $3)
+       (tee_local $0
+        (i32.shr_u
+         (i32.and
+          (i32.add
+           (i32.sub
+            (get_local $2)
+            (get_local $1)
+           )
+           (i32.const 65535)
+          )
+          (i32.const -65536)
+         )
+         (i32.const 16)
+        )
+       )
+       (i32.gt_s
+        (get_local $3)
+        (get_local $0)
+       )
+      )
+     )
+     (i32.const 0)
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_local $2)
+  )
+  (get_local $1)
+ )
+ (func $~lib/memory/memory.allocate (; 2 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (call $~lib/allocator/arena/__memory_allocate
+   (i32.const 16)
+  )
+ )
+ (func $~lib/error/Error#constructor (; 3 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate)
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 3)
+  )
+  (i32.store
+   (get_local $1)
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $1)
+   (i32.const 24)
+  )
+  (i32.store
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $try/doThrow (; 4 ;) (; has Stack IR ;) (type $i) (result i32)
+  (set_global $~exception
+   (call $~lib/error/Error#constructor
+    (i32.const 8)
+   )
+  )
+  (i32.const 0)
+ )
+ (func $~lib/internal/string/compareUnsafe (; 5 ;) (; has Stack IR ;) (type $FUNCSIG$iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (set_local $3
+   (get_local $0)
+  )
+  (loop $continue|0
+   (if
+    (tee_local $0
+     (if (result i32)
+      (get_local $2)
+      (i32.eqz
+       (tee_local $4
+        (i32.sub
+         (i32.load16_u offset=4
+          (get_local $3)
+         )
+         (i32.load16_u offset=4
+          (get_local $1)
+         )
+        )
+       )
+      )
+      (get_local $2)
+     )
+    )
+    (block
+     (set_local $2
+      (i32.sub
+       (get_local $2)
+       (i32.const 1)
+      )
+     )
+     (set_local $3
+      (i32.add
+       (get_local $3)
+       (i32.const 2)
+      )
+     )
+     (set_local $1
+      (i32.add
+       (get_local $1)
+       (i32.const 2)
+      )
+     )
+     (br $continue|0)
+    )
+   )
+  )
+  (get_local $4)
+ )
+ (func $~lib/string/String.__eq (; 6 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (if
+   (i32.eqz
+    (tee_local $2
+     (i32.eqz
+      (get_local $0)
+     )
+    )
+   )
+   (set_local $2
+    (i32.eqz
+     (get_local $1)
+    )
+   )
+  )
+  (if
+   (get_local $2)
+   (return
+    (i32.const 0)
+   )
+  )
+  (if
+   (i32.ne
+    (tee_local $2
+     (i32.load
+      (get_local $0)
+     )
+    )
+    (i32.load
+     (get_local $1)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.eqz
+   (call $~lib/internal/string/compareUnsafe
+    (get_local $0)
+    (get_local $1)
+    (get_local $2)
+   )
+  )
+ )
+ (func $try/mayThrow (; 7 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.lt_s
+    (get_local $0)
+    (i32.const 0)
+   )
+   (block
+    (set_global $~exception
+     (call $~lib/error/Error#constructor
+      (i32.const 48)
+     )
+    )
+    (return
+     (i32.const 0)
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $try/rethrow (; 8 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (call $try/mayThrow
+    (get_local $0)
+   )
+  )
+  (if
+   (get_global $~exception)
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.add
+   (get_local $1)
+   (i32.const 1)
+  )
+ )
+ (func $try/returnInFinally (; 9 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (block $finally|0
+   (block $catch|0
+    (set_local $1
+     (call $try/mayThrow
+      (get_local $0)
+     )
+    )
+    (br_if $catch|0
+     (get_global $~exception)
+    )
+    (br $finally|0)
+   )
+   (set_global $~exception
+    (i32.const 0)
+   )
+   (set_local $1
+    (i32.const -1)
+   )
+  )
+  (set_global $try/finallyRuns
+   (i32.add
+    (get_global $try/finallyRuns)
+    (i32.const 1)
+   )
+  )
+  (get_local $1)
+ )
+ (func $try/throwThroughFinally (; 10 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (set_local $0
+   (block $finally|0 (result i32)
+    (block $uncaught|0
+     (set_local $1
+      (call $try/mayThrow
+       (i32.const -3)
+      )
+     )
+     (br_if $uncaught|0
+      (get_global $~exception)
+     )
+     (br $finally|0
+      (i32.const 2)
+     )
+    )
+    (set_local $2
+     (get_global $~exception)
+    )
+    (set_global $~exception
+     (i32.const 0)
+    )
+    (i32.const 1)
+   )
+  )
+  (set_global $try/finallyRuns
+   (i32.add
+    (get_global $try/finallyRuns)
+    (i32.const 1)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $0)
+    (i32.const 1)
+   )
+   (block
+    (set_global $~exception
+     (get_local $2)
+    )
+    (return
+     (i32.const 0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $0)
+    (i32.const 2)
+   )
+   (return
+    (get_local $1)
+   )
+  )
+  (unreachable)
+ )
+ (func $try/breakInFinally (; 11 ;) (; has Stack IR ;) (type $i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (block $break|0
+   (loop $continue|0
+    (set_local $1
+     (i32.const 0)
+    )
+    (block $finally|1
+     (block $catch|1
+      (if
+       (i32.gt_s
+        (tee_local $0
+         (i32.add
+          (get_local $0)
+          (i32.const 1)
+         )
+        )
+        (i32.const 10)
+       )
+       (block
+        (set_local $1
+         (i32.const 3)
+        )
+        (br $finally|1)
+       )
+      )
+      (if
+       (i32.eq
+        (get_local $0)
+        (i32.const 1)
+       )
+       (block
+        (set_local $1
+         (i32.const 4)
+        )
+        (br $finally|1)
+       )
+      )
+      (set_local $2
+       (call $try/mayThrow
+        (i32.sub
+         (i32.const 0)
+         (get_local $0)
+        )
+       )
+      )
+      (br_if $catch|1
+       (get_global $~exception)
+      )
+      (br $finally|1)
+     )
+     (set_local $2
+      (get_global $~exception)
+     )
+     (set_global $~exception
+      (i32.const 0)
+     )
+     (set_local $0
+      (i32.add
+       (get_local $0)
+       (i32.const 10)
+      )
+     )
+    )
+    (set_global $try/finallyRuns
+     (i32.add
+      (get_global $try/finallyRuns)
+      (i32.const 1)
+     )
+    )
+    (if
+     (i32.eq
+      (get_local $1)
+      (i32.const 1)
+     )
+     (block
+      (set_global $~exception
+       (get_local $2)
+      )
+      (return
+       (i32.const 0)
+      )
+     )
+    )
+    (br_if $break|0
+     (i32.eq
+      (get_local $1)
+      (i32.const 3)
+     )
+    )
+    (br $continue|0)
+   )
+  )
+  (get_local $0)
+ )
+ (func $try/nestedRethrow (; 12 ;) (; has Stack IR ;) (type $i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (block $try|0
+   (block $catch|0
+    (block $finally|1
+     (block $uncaught|1
+      (block $catch|1
+       (set_local $1
+        (call $try/doThrow)
+       )
+       (br_if $catch|1
+        (get_global $~exception)
+       )
+       (br $finally|1)
+      )
+      (set_global $~exception
+       (i32.const 0)
+      )
+      (set_global $~exception
+       (call $~lib/error/Error#constructor
+        (i32.const 112)
+       )
+      )
+     )
+     (set_local $1
+      (get_global $~exception)
+     )
+     (set_global $~exception
+      (i32.const 0)
+     )
+     (set_local $0
+      (i32.const 1)
+     )
+    )
+    (set_global $try/finallyRuns
+     (i32.add
+      (get_global $try/finallyRuns)
+      (i32.const 1)
+     )
+    )
+    (if
+     (i32.eq
+      (get_local $0)
+      (i32.const 1)
+     )
+     (block
+      (set_global $~exception
+       (get_local $1)
+      )
+      (br $catch|0)
+     )
+    )
+    (br $try|0)
+   )
+   (set_local $0
+    (get_global $~exception)
+   )
+   (set_global $~exception
+    (i32.const 0)
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (i32.load
+       (get_local $0)
+      )
+      (i32.const 112)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 108)
+      (i32.const 4)
+     )
+     (unreachable)
+    )
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (i32.const 0)
+ )
+ (func $start (; 13 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (block $uncaught|start
+   (set_global $~lib/allocator/arena/startOffset
+    (i32.const 200)
+   )
+   (set_global $~lib/allocator/arena/offset
+    (get_global $~lib/allocator/arena/startOffset)
+   )
+   (block $try|0
+    (block $catch|0
+     (drop
+      (call $try/doThrow)
+     )
+     (br_if $catch|0
+      (get_global $~exception)
+     )
+     (set_global $try/caught
+      (i32.const -1)
+     )
+     (br $try|0)
+    )
+    (set_local $0
+     (get_global $~exception)
+    )
+    (set_global $~exception
+     (i32.const 0)
+    )
+    (if
+     (i32.eqz
+      (call $~lib/string/String.__eq
+       (i32.load
+        (get_local $0)
+       )
+       (i32.const 8)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 32)
+       (i32.const 21)
+       (i32.const 2)
+      )
+      (unreachable)
+     )
+    )
+    (set_global $try/caught
+     (i32.const 1)
+    )
+   )
+   (if
+    (i32.ne
+     (get_global $try/caught)
+     (i32.const 1)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 24)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $try/caught
+    (i32.const 0)
+   )
+   (block $try|1
+    (block $catch|1
+     (drop
+      (call $try/rethrow
+       (i32.const -1)
+      )
+     )
+     (br_if $catch|1
+      (get_global $~exception)
+     )
+     (set_global $try/caught
+      (i32.const -1)
+     )
+     (br $try|1)
+    )
+    (set_local $0
+     (get_global $~exception)
+    )
+    (set_global $~exception
+     (i32.const 0)
+    )
+    (if
+     (i32.eqz
+      (call $~lib/string/String.__eq
+       (i32.load
+        (get_local $0)
+       )
+       (i32.const 48)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 32)
+       (i32.const 31)
+       (i32.const 2)
+      )
+      (unreachable)
+     )
+    )
+    (set_global $try/caught
+     (i32.const 1)
+    )
+   )
+   (if
+    (i32.ne
+     (get_global $try/caught)
+     (i32.const 1)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 34)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $try/caught
+    (i32.const 0)
+   )
+   (block $try|2
+    (block $catch|2
+     (set_local $0
+      (call $try/rethrow
+       (i32.const 1)
+      )
+     )
+     (br_if $catch|2
+      (get_global $~exception)
+     )
+     (if
+      (i32.ne
+       (get_local $0)
+       (i32.const 2)
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 32)
+        (i32.const 38)
+        (i32.const 2)
+       )
+       (unreachable)
+      )
+     )
+     (br $try|2)
+    )
+    (set_global $~exception
+     (i32.const 0)
+    )
+    (set_global $try/caught
+     (i32.const -1)
+    )
+   )
+   (if
+    (get_global $try/caught)
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 42)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_local $0
+    (call $try/returnInFinally
+     (i32.const 2)
+    )
+   )
+   (br_if $uncaught|start
+    (get_global $~exception)
+   )
+   (if
+    (i32.ne
+     (get_local $0)
+     (i32.const 2)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 56)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_local $0
+    (call $try/returnInFinally
+     (i32.const -2)
+    )
+   )
+   (br_if $uncaught|start
+    (get_global $~exception)
+   )
+   (if
+    (i32.ne
+     (get_local $0)
+     (i32.const -1)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 57)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.ne
+     (get_global $try/finallyRuns)
+     (i32.const 2)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 58)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $try/caught
+    (i32.const 0)
+   )
+   (block $try|3
+    (block $catch|3
+     (drop
+      (call $try/throwThroughFinally)
+     )
+     (br_if $catch|3
+      (get_global $~exception)
+     )
+     (set_global $try/caught
+      (i32.const -1)
+     )
+     (br $try|3)
+    )
+    (set_local $0
+     (get_global $~exception)
+    )
+    (set_global $~exception
+     (i32.const 0)
+    )
+    (if
+     (i32.eqz
+      (call $~lib/string/String.__eq
+       (i32.load
+        (get_local $0)
+       )
+       (i32.const 48)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 32)
+       (i32.const 73)
+       (i32.const 2)
+      )
+      (unreachable)
+     )
+    )
+    (set_global $try/caught
+     (i32.const 1)
+    )
+   )
+   (if
+    (i32.ne
+     (get_global $try/caught)
+     (i32.const 1)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 76)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.ne
+     (get_global $try/finallyRuns)
+     (i32.const 3)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 77)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_local $0
+    (call $try/breakInFinally)
+   )
+   (br_if $uncaught|start
+    (get_global $~exception)
+   )
+   (if
+    (i32.ne
+     (get_local $0)
+     (i32.const 13)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 95)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.ne
+     (get_global $try/finallyRuns)
+     (i32.const 6)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 96)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.ne
+     (call $try/nestedRethrow)
+     (i32.const 1)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 114)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.ne
+     (get_global $try/finallyRuns)
+     (i32.const 7)
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 115)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (return)
+  )
+  (call $~lib/env/abort
+   (i32.load
+    (get_global $~exception)
+   )
+   (i32.const 32)
+   (i32.const 1)
+   (i32.const 0)
+  )
+  (unreachable)
+ )
+)
@@ -0,0 +1,115 @@
+import "allocator/arena";
+
+function doThrow(): i32 {
+  throw new Error("thrown");
+}
+
+function mayThrow(value: i32): i32 {
+  if (value < 0) throw new RangeError("negative");
+  return value;
+}
+
+function rethrow(value: i32): i32 {
+  return mayThrow(value) + 1;
+}
+
+var caught = 0;
+try {
+  doThrow();
+  caught = -1;
+} catch (e) {
+  assert(e.message == "thrown");
+  caught = 1;
+}
+assert(caught == 1);
+
+caught = 0;
+try {
+  rethrow(-1);
+  caught = -1;
+} catch (e) {
+  assert(e.message == "negative");
+  caught = 1;
+}
+assert(caught == 1);
+
+caught = 0;
+try {
+  assert(rethrow(1) == 2);
+} catch (e) {
+  caught = -1;
+}
+assert(caught == 0);
+
+var finallyRuns = 0;
+
+function returnInFinally(value: i32): i32 {
+  try {
+    return mayThrow(value);
+  } catch (e) {
+    return -1;
+  } finally {
+    ++finallyRuns;
+  }
+}
+
+assert(returnInFinally(2) == 2);
+assert(returnInFinally(-2) == -1);
+assert(finallyRuns == 2);
+
+function throwThroughFinally(value: i32): i32 {
+  try {
+    return mayThrow(value);
+  } finally {
+    ++finallyRuns;
+  }
+}
+
+caught = 0;
+try {
+  throwThroughFinally(-3);
+  caught = -1;
+} catch (e) {
+  assert(e.message == "negative");
+  caught = 1;
+}
+assert(caught == 1);
+assert(finallyRuns == 3);
+
+function breakInFinally(): i32 {
+  var i = 0;
+  while (true) {
+    try {
+      if (++i > 10) break;
+      if (i == 1) continue;
+      mayThrow(-i);
+    } catch (e) {
+      i += 10;
+    } finally {
+      ++finallyRuns;
+    }
+  }
+  return i;
+}
+
+assert(breakInFinally() == 13);
+assert(finallyRuns == 6);
+
+function nestedRethrow(): i32 {
+  try {
+    try {
+      doThrow();
+    } catch (e) {
+      throw new TypeError("rethrown");
+    } finally {
+      ++finallyRuns;
+    }
+  } catch (e) {
+    assert(e.message == "rethrown");
+    return 1;
+  }
+  return 0;
+}
+
+assert(nestedRethrow() == 1);
+assert(finallyRuns == 7);
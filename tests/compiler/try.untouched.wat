@@ -0,0 +1,1227 @@
+(module
+ (type $i (func (result i32)))
+ (type $iii (func (param i32 i32) (result i32)))
+ (type $ii (func (param i32) (result i32)))
+ (type $iiiiii (func (param i32 i32 i32 i32 i32) (result i32)))
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $v (func))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/internal/allocator/AL_BITS i32 (i32.const 3))
+ (global $~lib/internal/allocator/AL_SIZE i32 (i32.const 8))
+ (global $~lib/internal/allocator/AL_MASK i32 (i32.const 7))
+ (global $~lib/internal/allocator/MAX_SIZE_32 i32 (i32.const 1073741824))
+ (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
+ (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $try/caught (mut i32) (i32.const 0))
+ (global $~exception (mut i32) (i32.const 0))
+ (global $~lib/internal/string/HEADER_SIZE i32 (i32.const 4))
+ (global $try/finallyRuns (mut i32) (i32.const 0))
+ (global $RTTI_BASE i32 (i32.const 136))
+ (global $HEAP_BASE i32 (i32.const 200))
+ (memory $0 1)
+ (data (i32.const 8) "\06\00\00\00t\00h\00r\00o\00w\00n\00")
+ (data (i32.const 24) "\00\00\00\00")
+ (data (i32.const 32) "\06\00\00\00t\00r\00y\00.\00t\00s\00")
+ (data (i32.const 48) "\08\00\00\00n\00e\00g\00a\00t\00i\00v\00e\00")
+ (data (i32.const 72) "\10\00\00\00~\00l\00i\00b\00/\00b\00u\00i\00l\00t\00i\00n\00s\00.\00t\00s\00")
+ (data (i32.const 112) "\08\00\00\00r\00e\00t\00h\00r\00o\00w\00n\00")
+ (data (i32.const 136) "\05\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\02\00\00\00\00\00\00\00\00\00\00\00\03\00\00\00\00\00\00\00\04\00\00\00\04\00\00\00\03\00\00\00\04\00\00\00\05\00\00\00\03\00\00\00\04\00\00\00")
+ (export "RTTI_BASE" (global $RTTI_BASE))
+ (export "memory" (memory $0))
+ (start $start)
+ (func $~lib/allocator/arena/__memory_allocate (; 1 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (get_global $~lib/internal/allocator/MAX_SIZE_32)
+   )
+   (unreachable)
+  )
+  (set_local $1
+   (get_global $~lib/allocator/arena/offset)
+  )
+  (set_local $4
+   (i32.and
+    (i32.add
+     (i32.add
+      (get_local $1)
+      (select
+       (tee_local $2
+        (get_local $0)
+       )
+       (tee_local $3
+        (i32.const 1)
+       )
+       (i32.gt_u
+        (get_local $2)
+        (get_local $3)
+       )
+      )
+     )
+     (get_global $~lib/internal/allocator/AL_MASK)
+    )
+    (i32.xor
+     (get_global $~lib/internal/allocator/AL_MASK)
+     (i32.const -1)
+    )
+   )
+  )
+  (set_local $5
+   (current_memory)
+  )
+  (if
+   (i32.gt_u
+    (get_local $4)
+    (i32.shl
+     (get_local $5)
+     (i32.const 16)
+    )
+   )
+   (block
+    (set_local $2
+     (i32.shr_u
+      (i32.and
+       (i32.add
+        (i32.sub
+         (get_local $4)
+         (get_local $1)
+        )
+        (i32.const 65535)
+       )
+       (i32.xor
+        (i32.const 65535)
+        (i32.const -1)
+       )
+      )
+      (i32.const 16)
+     )
+    )
+    (set_local $3
+     (select
+      (tee_local $3
+       (get_local $5)
+      )
+      (tee_local $6
+       (get_local $2)
+      )
+      (i32.gt_s
+       (get_local $3)
+       (get_local $6)
+      )
+     )
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $3)
+      )
+      (i32.const 0)
+     )
+     (if
+      (i32.lt_s
+       (grow_memory
+        (get_local $2)
+       )
+       (i32.const 0)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_local $4)
+  )
+  (get_local $1)
+ )
+ (func $~lib/memory/memory.allocate (; 2 ;) (type $ii) (param $0 i32) (result i32)
+  (return
+   (call $~lib/allocator/arena/__memory_allocate
+    (get_local $0)
+   )
+  )
+ )
+ (func $~lib/error/Error#constructor (; 3 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (i32.store
+   (tee_local $0
+    (if (result i32)
+     (get_local $0)
+     (get_local $0)
+     (tee_local $0
+      (block (result i32)
+       (set_local $2
+        (block (result i32)
+         (i32.store
+          (i32.sub
+           (tee_local $3
+            (i32.add
+             (call $~lib/memory/memory.allocate
+              (i32.const 16)
+             )
+             (i32.const 8)
+            )
+           )
+           (i32.const 4)
+          )
+          (i32.const 3)
+         )
+         (get_local $3)
+        )
+       )
+       (i32.store
+        (get_local $2)
+        (i32.const 0)
+       )
+       (i32.store offset=4
+        (get_local $2)
+        (i32.const 24)
+       )
+       (get_local $2)
+      )
+     )
+    )
+   )
+   (get_local $1)
+  )
+  (get_local $0)
+ )
+ (func $try/doThrow (; 4 ;) (type $i) (result i32)
+  (set_global $~exception
+   (call $~lib/error/Error#constructor
+    (i32.const 0)
+    (i32.const 8)
+   )
+  )
+  (return
+   (i32.const 0)
+  )
+ )
+ (func $~lib/internal/string/compareUnsafe (; 5 ;) (type $iiiiii) (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (result i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (set_local $5
+   (i32.const 0)
+  )
+  (set_local $6
+   (i32.add
+    (get_local $0)
+    (i32.shl
+     (get_local $1)
+     (i32.const 1)
+    )
+   )
+  )
+  (set_local $7
+   (i32.add
+    (get_local $2)
+    (i32.shl
+     (get_local $3)
+     (i32.const 1)
+    )
+   )
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (if (result i32)
+      (get_local $4)
+      (i32.eqz
+       (tee_local $5
+        (i32.sub
+         (i32.load16_u offset=4
+          (get_local $6)
+         )
+         (i32.load16_u offset=4
+          (get_local $7)
+         )
+        )
+       )
+      )
+      (get_local $4)
+     )
+     (block
+      (block
+       (set_local $4
+        (i32.sub
+         (get_local $4)
+         (i32.const 1)
+        )
+       )
+       (set_local $6
+        (i32.add
+         (get_local $6)
+         (i32.const 2)
+        )
+       )
+       (set_local $7
+        (i32.add
+         (get_local $7)
+         (i32.const 2)
+        )
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (get_local $5)
+ )
+ (func $~lib/string/String.__eq (; 6 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.eq
+    (get_local $0)
+    (get_local $1)
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (if
+   (if (result i32)
+    (tee_local $2
+     (i32.eq
+      (get_local $0)
+      (i32.const 0)
+     )
+    )
+    (get_local $2)
+    (i32.eq
+     (get_local $1)
+     (i32.const 0)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (set_local $3
+   (i32.load
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.ne
+    (get_local $3)
+    (i32.load
+     (get_local $1)
+    )
+   )
+   (return
+    (i32.const 0)
+   )
+  )
+  (i32.eqz
+   (call $~lib/internal/string/compareUnsafe
+    (get_local $0)
+    (i32.const 0)
+    (get_local $1)
+    (i32.const 0)
+    (get_local $3)
+   )
+  )
+ )
+ (func $try/mayThrow (; 7 ;) (type $ii) (param $0 i32) (result i32)
+  (if
+   (i32.lt_s
+    (get_local $0)
+    (i32.const 0)
+   )
+   (block
+    (set_global $~exception
+     (call $~lib/error/Error#constructor
+      (i32.const 0)
+      (i32.const 48)
+     )
+    )
+    (return
+     (i32.const 0)
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $try/rethrow (; 8 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.add
+   (block (result i32)
+    (set_local $1
+     (call $try/mayThrow
+      (get_local $0)
+     )
+    )
+    (if
+     (get_global $~exception)
+     (return
+      (i32.const 0)
+     )
+    )
+    (get_local $1)
+   )
+   (i32.const 1)
+  )
+ )
+ (func $try/returnInFinally (; 9 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $1
+   (i32.const 0)
+  )
+  (block $finally|0
+   (block $uncaught|0
+    (block $catch|0
+     (set_local $2
+      (block (result i32)
+       (set_local $2
+        (call $try/mayThrow
+         (get_local $0)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $catch|0)
+       )
+       (get_local $2)
+      )
+     )
+     (set_local $1
+      (i32.const 2)
+     )
+     (br $finally|0)
+    )
+    (set_local $3
+     (get_global $~exception)
+    )
+    (set_global $~exception
+     (i32.const 0)
+    )
+    (set_local $2
+     (i32.const -1)
+    )
+    (set_local $1
+     (i32.const 2)
+    )
+    (br $finally|0)
+   )
+   (set_local $3
+    (get_global $~exception)
+   )
+   (set_global $~exception
+    (i32.const 0)
+   )
+   (set_local $1
+    (i32.const 1)
+   )
+  )
+  (set_global $try/finallyRuns
+   (i32.add
+    (get_global $try/finallyRuns)
+    (i32.const 1)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 1)
+   )
+   (block
+    (set_global $~exception
+     (get_local $3)
+    )
+    (return
+     (i32.const 0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 2)
+   )
+   (return
+    (get_local $2)
+   )
+  )
+  (unreachable)
+ )
+ (func $try/throwThroughFinally (; 10 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (set_local $1
+   (i32.const 0)
+  )
+  (block $finally|0
+   (block $uncaught|0
+    (set_local $2
+     (block (result i32)
+      (set_local $2
+       (call $try/mayThrow
+        (get_local $0)
+       )
+      )
+      (if
+       (get_global $~exception)
+       (br $uncaught|0)
+      )
+      (get_local $2)
+     )
+    )
+    (set_local $1
+     (i32.const 2)
+    )
+    (br $finally|0)
+   )
+   (set_local $3
+    (get_global $~exception)
+   )
+   (set_global $~exception
+    (i32.const 0)
+   )
+   (set_local $1
+    (i32.const 1)
+   )
+  )
+  (set_global $try/finallyRuns
+   (i32.add
+    (get_global $try/finallyRuns)
+    (i32.const 1)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 1)
+   )
+   (block
+    (set_global $~exception
+     (get_local $3)
+    )
+    (return
+     (i32.const 0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 2)
+   )
+   (return
+    (get_local $2)
+   )
+  )
+  (unreachable)
+ )
+ (func $try/breakInFinally (; 11 ;) (type $i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (set_local $0
+   (i32.const 0)
+  )
+  (block $break|0
+   (loop $continue|0
+    (if
+     (i32.const 1)
+     (block
+      (block
+       (set_local $1
+        (i32.const 0)
+       )
+       (block $finally|1
+        (block $uncaught|1
+         (block $catch|1
+          (if
+           (i32.gt_s
+            (tee_local $0
+             (i32.add
+              (get_local $0)
+              (i32.const 1)
+             )
+            )
+            (i32.const 10)
+           )
+           (block
+            (set_local $1
+             (i32.const 3)
+            )
+            (br $finally|1)
+           )
+          )
+          (if
+           (i32.eq
+            (get_local $0)
+            (i32.const 1)
+           )
+           (block
+            (set_local $1
+             (i32.const 4)
+            )
+            (br $finally|1)
+           )
+          )
+          (drop
+           (block (result i32)
+            (set_local $2
+             (call $try/mayThrow
+              (i32.sub
+               (i32.const 0)
+               (get_local $0)
+              )
+             )
+            )
+            (if
+             (get_global $~exception)
+             (br $catch|1)
+            )
+            (get_local $2)
+           )
+          )
+          (br $finally|1)
+         )
+         (set_local $2
+          (get_global $~exception)
+         )
+         (set_global $~exception
+          (i32.const 0)
+         )
+         (set_local $0
+          (i32.add
+           (get_local $0)
+           (i32.const 10)
+          )
+         )
+         (br $finally|1)
+        )
+        (set_local $2
+         (get_global $~exception)
+        )
+        (set_global $~exception
+         (i32.const 0)
+        )
+        (set_local $1
+         (i32.const 1)
+        )
+       )
+       (set_global $try/finallyRuns
+        (i32.add
+         (get_global $try/finallyRuns)
+         (i32.const 1)
+        )
+       )
+       (if
+        (i32.eq
+         (get_local $1)
+         (i32.const 1)
+        )
+        (block
+         (set_global $~exception
+          (get_local $2)
+         )
+         (return
+          (i32.const 0)
+         )
+        )
+       )
+       (if
+        (i32.eq
+         (get_local $1)
+         (i32.const 3)
+        )
+        (br $break|0)
+       )
+       (if
+        (i32.eq
+         (get_local $1)
+         (i32.const 4)
+        )
+        (br $continue|0)
+       )
+      )
+      (br $continue|0)
+     )
+    )
+   )
+  )
+  (get_local $0)
+ )
+ (func $try/nestedRethrow (; 12 ;) (type $i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (block $try|0
+   (block $catch|0
+    (set_local $0
+     (i32.const 0)
+    )
+    (block $finally|1
+     (block $uncaught|1
+      (block $catch|1
+       (drop
+        (block (result i32)
+         (set_local $1
+          (call $try/doThrow)
+         )
+         (if
+          (get_global $~exception)
+          (br $catch|1)
+         )
+         (get_local $1)
+        )
+       )
+       (br $finally|1)
+      )
+      (set_local $1
+       (get_global $~exception)
+      )
+      (set_global $~exception
+       (i32.const 0)
+      )
+      (set_global $~exception
+       (call $~lib/error/Error#constructor
+        (i32.const 0)
+        (i32.const 112)
+       )
+      )
+      (br $uncaught|1)
+     )
+     (set_local $1
+      (get_global $~exception)
+     )
+     (set_global $~exception
+      (i32.const 0)
+     )
+     (set_local $0
+      (i32.const 1)
+     )
+    )
+    (set_global $try/finallyRuns
+     (i32.add
+      (get_global $try/finallyRuns)
+      (i32.const 1)
+     )
+    )
+    (if
+     (i32.eq
+      (get_local $0)
+      (i32.const 1)
+     )
+     (block
+      (set_global $~exception
+       (get_local $1)
+      )
+      (br $catch|0)
+     )
+    )
+    (br $try|0)
+   )
+   (set_local $0
+    (get_global $~exception)
+   )
+   (set_global $~exception
+    (i32.const 0)
+   )
+   (if
+    (i32.eqz
+     (call $~lib/string/String.__eq
+      (i32.load
+       (get_local $0)
+      )
+      (i32.const 112)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 108)
+      (i32.const 4)
+     )
+     (unreachable)
+    )
+   )
+   (return
+    (i32.const 1)
+   )
+  )
+  (i32.const 0)
+ )
+ (func $start (; 13 ;) (type $v)
+  (local $0 i32)
+  (block $uncaught|start
+   (set_global $~lib/allocator/arena/startOffset
+    (i32.and
+     (i32.add
+      (get_global $HEAP_BASE)
+      (get_global $~lib/internal/allocator/AL_MASK)
+     )
+     (i32.xor
+      (get_global $~lib/internal/allocator/AL_MASK)
+      (i32.const -1)
+     )
+    )
+   )
+   (set_global $~lib/allocator/arena/offset
+    (get_global $~lib/allocator/arena/startOffset)
+   )
+   (block $try|0
+    (block $catch|0
+     (drop
+      (block (result i32)
+       (set_local $0
+        (call $try/doThrow)
+       )
+       (if
+        (get_global $~exception)
+        (br $catch|0)
+       )
+       (get_local $0)
+      )
+     )
+     (set_global $try/caught
+      (i32.const -1)
+     )
+     (br $try|0)
+    )
+    (set_local $0
+     (get_global $~exception)
+    )
+    (set_global $~exception
+     (i32.const 0)
+    )
+    (if
+     (i32.eqz
+      (call $~lib/string/String.__eq
+       (i32.load
+        (get_local $0)
+       )
+       (i32.const 8)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 32)
+       (i32.const 21)
+       (i32.const 2)
+      )
+      (unreachable)
+     )
+    )
+    (set_global $try/caught
+     (i32.const 1)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (get_global $try/caught)
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 24)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $try/caught
+    (i32.const 0)
+   )
+   (block $try|1
+    (block $catch|1
+     (drop
+      (block (result i32)
+       (set_local $0
+        (call $try/rethrow
+         (i32.const -1)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $catch|1)
+       )
+       (get_local $0)
+      )
+     )
+     (set_global $try/caught
+      (i32.const -1)
+     )
+     (br $try|1)
+    )
+    (set_local $0
+     (get_global $~exception)
+    )
+    (set_global $~exception
+     (i32.const 0)
+    )
+    (if
+     (i32.eqz
+      (call $~lib/string/String.__eq
+       (i32.load
+        (get_local $0)
+       )
+       (i32.const 48)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 32)
+       (i32.const 31)
+       (i32.const 2)
+      )
+      (unreachable)
+     )
+    )
+    (set_global $try/caught
+     (i32.const 1)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (get_global $try/caught)
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 34)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $try/caught
+    (i32.const 0)
+   )
+   (block $try|2
+    (block $catch|2
+     (if
+      (i32.eqz
+       (i32.eq
+        (block (result i32)
+         (set_local $0
+          (call $try/rethrow
+           (i32.const 1)
+          )
+         )
+         (if
+          (get_global $~exception)
+          (br $catch|2)
+         )
+         (get_local $0)
+        )
+        (i32.const 2)
+       )
+      )
+      (block
+       (call $~lib/env/abort
+        (i32.const 0)
+        (i32.const 32)
+        (i32.const 38)
+        (i32.const 2)
+       )
+       (unreachable)
+      )
+     )
+     (br $try|2)
+    )
+    (set_local $0
+     (get_global $~exception)
+    )
+    (set_global $~exception
+     (i32.const 0)
+    )
+    (set_global $try/caught
+     (i32.const -1)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (get_global $try/caught)
+      (i32.const 0)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 42)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (block (result i32)
+       (set_local $0
+        (call $try/returnInFinally
+         (i32.const 2)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 2)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 56)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (block (result i32)
+       (set_local $0
+        (call $try/returnInFinally
+         (i32.const -2)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const -1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 57)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (get_global $try/finallyRuns)
+      (i32.const 2)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 58)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (set_global $try/caught
+    (i32.const 0)
+   )
+   (block $try|3
+    (block $catch|3
+     (drop
+      (block (result i32)
+       (set_local $0
+        (call $try/throwThroughFinally
+         (i32.const -3)
+        )
+       )
+       (if
+        (get_global $~exception)
+        (br $catch|3)
+       )
+       (get_local $0)
+      )
+     )
+     (set_global $try/caught
+      (i32.const -1)
+     )
+     (br $try|3)
+    )
+    (set_local $0
+     (get_global $~exception)
+    )
+    (set_global $~exception
+     (i32.const 0)
+    )
+    (if
+     (i32.eqz
+      (call $~lib/string/String.__eq
+       (i32.load
+        (get_local $0)
+       )
+       (i32.const 48)
+      )
+     )
+     (block
+      (call $~lib/env/abort
+       (i32.const 0)
+       (i32.const 32)
+       (i32.const 73)
+       (i32.const 2)
+      )
+      (unreachable)
+     )
+    )
+    (set_global $try/caught
+     (i32.const 1)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (get_global $try/caught)
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 76)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (get_global $try/finallyRuns)
+      (i32.const 3)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 77)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (block (result i32)
+       (set_local $0
+        (call $try/breakInFinally)
+       )
+       (if
+        (get_global $~exception)
+        (br $uncaught|start)
+       )
+       (get_local $0)
+      )
+      (i32.const 13)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 95)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (get_global $try/finallyRuns)
+      (i32.const 6)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 96)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (call $try/nestedRethrow)
+      (i32.const 1)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 114)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (if
+    (i32.eqz
+     (i32.eq
+      (get_global $try/finallyRuns)
+      (i32.const 7)
+     )
+    )
+    (block
+     (call $~lib/env/abort
+      (i32.const 0)
+      (i32.const 32)
+      (i32.const 115)
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+   (return)
+  )
+  (block
+   (call $~lib/env/abort
+    (i32.load
+     (get_global $~exception)
+    )
+    (i32.const 32)
+    (i32.const 1)
+    (i32.const 0)
+   )
+   (unreachable)
+  )
+ )
+)
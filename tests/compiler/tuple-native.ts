@@ -0,0 +1,8 @@
+// Expect error: Operation not supported
+
+function divmod(a: i32, b: i32): [i32, i32] {
+  return [a / b, a % b];
+}
+
+var q: i32, r: i32;
+[q, r] = divmod(7, 2);
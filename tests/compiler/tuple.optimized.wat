@@ -0,0 +1,503 @@
+(module
+ (type $iii (func (param i32 i32) (result i32)))
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $FF (func (param f64) (result f64)))
+ (type $ii (func (param i32) (result i32)))
+ (type $v (func))
+ (type $FUNCSIG$i (func (result i32)))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
+ (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $tuple/q (mut i32) (i32.const 0))
+ (global $tuple/r (mut i32) (i32.const 0))
+ (global $~tuple1:i (mut i32) (i32.const 0))
+ (global $tuple/f (mut f64) (f64.const 0))
+ (global $tuple/n (mut i64) (i64.const 0))
+ (global $tuple/neg (mut i32) (i32.const 0))
+ (global $~tuple1:I (mut i64) (i64.const 0))
+ (global $~tuple2:i (mut i32) (i32.const 0))
+ (global $tuple/box (mut i32) (i32.const 0))
+ (memory $0 1)
+ (data (i32.const 8) "\08\00\00\00t\00u\00p\00l\00e\00.\00t\00s")
+ (export "memory" (memory $0))
+ (start $start)
+ (func $tuple/divmod (; 1 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.div_s
+    (get_local $0)
+    (get_local $1)
+   )
+  )
+  (set_global $~tuple1:i
+   (i32.rem_s
+    (get_local $0)
+    (get_local $1)
+   )
+  )
+  (get_local $2)
+ )
+ (func $tuple/mixed (; 2 ;) (; has Stack IR ;) (type $FF) (param $0 f64) (result f64)
+  (if
+   (f64.lt
+    (get_local $0)
+    (f64.const 0)
+   )
+   (block
+    (set_global $~tuple1:I
+     (i64.const -1)
+    )
+    (set_global $~tuple2:i
+     (i32.const 1)
+    )
+    (return
+     (f64.neg
+      (get_local $0)
+     )
+    )
+   )
+  )
+  (set_global $~tuple1:I
+   (i64.trunc_s/f64
+    (get_local $0)
+   )
+  )
+  (set_global $~tuple2:i
+   (i32.const 0)
+  )
+  (get_local $0)
+ )
+ (func $~lib/allocator/arena/__memory_allocate (; 3 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 1073741824)
+   )
+   (unreachable)
+  )
+  (if
+   (i32.gt_u
+    (tee_local $2
+     (i32.and
+      (i32.add
+       (i32.add
+        (tee_local $1
+         (get_global $~lib/allocator/arena/offset)
+        )
+        (select
+         (get_local $0)
+         (i32.const 1)
+         (i32.gt_u
+          (get_local $0)
+          (i32.const 1)
+         )
+        )
+       )
+       (i32.const 7)
+      )
+      (i32.const -8)
+     )
+    )
+    (i32.shl
+     (tee_local $3
+      (current_memory)
+     )
+     (i32.const 16)
+    )
+   )
+   (if
+    (i32.lt_s
+     (grow_memory
+      (select
+       (get_local $3)
+       (tee_local $0
+        (i32.shr_u
+         (i32.and
+          (i32.add
+           (i32.sub
+            (get_local $2)
+            (get_local $1)
+           )
+           (i32.const 65535)
+          )
+          (i32.const -65536)
+         )
+         (i32.const 16)
+        )
+       )
+       (i32.gt_s
+        (get_local $3)
+        (get_local $0)
+       )
+      )
+     )
+     (i32.const 0)
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_local $2)
+  )
+  (get_local $1)
+ )
+ (func $~lib/memory/memory.allocate (; 4 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (call $~lib/allocator/arena/__memory_allocate
+   (i32.const 8)
+  )
+ )
+ (func $tuple/forward (; 5 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (call $tuple/divmod
+   (i32.const 10)
+   (i32.const 3)
+  )
+ )
+ (func $tuple/second (; 6 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (drop
+   (call $tuple/divmod
+    (get_local $0)
+    (i32.const 1)
+   )
+  )
+  (i32.add
+   (get_global $~tuple1:i)
+   (i32.const 10)
+  )
+ )
+ (func $tuple/swapped (; 7 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  (set_local $0
+   (call $tuple/divmod
+    (i32.const 11)
+    (i32.const 4)
+   )
+  )
+  (set_local $1
+   (get_global $~tuple1:i)
+  )
+  (set_global $~tuple1:i
+   (call $tuple/second
+    (get_local $0)
+   )
+  )
+  (get_local $1)
+ )
+ (func $start (; 8 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (local $1 f64)
+  (set_global $~lib/allocator/arena/startOffset
+   (i32.const 32)
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_global $~lib/allocator/arena/startOffset)
+  )
+  (set_global $tuple/q
+   (call $tuple/divmod
+    (i32.const 17)
+    (i32.const 5)
+   )
+  )
+  (set_global $tuple/r
+   (get_global $~tuple1:i)
+  )
+  (if
+   (tee_local $0
+    (i32.eq
+     (get_global $tuple/q)
+     (i32.const 3)
+    )
+   )
+   (set_local $0
+    (i32.eq
+     (get_global $tuple/r)
+     (i32.const 2)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 40)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $tuple/f
+   (call $tuple/mixed
+    (f64.const -2.5)
+   )
+  )
+  (set_global $tuple/n
+   (get_global $~tuple1:I)
+  )
+  (set_global $tuple/neg
+   (i32.and
+    (get_global $~tuple2:i)
+    (i32.const 1)
+   )
+  )
+  (if
+   (tee_local $0
+    (f64.eq
+     (get_global $tuple/f)
+     (f64.const 2.5)
+    )
+   )
+   (set_local $0
+    (i64.eq
+     (get_global $tuple/n)
+     (i64.const -1)
+    )
+   )
+  )
+  (if
+   (get_local $0)
+   (set_local $0
+    (get_global $tuple/neg)
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 44)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (f64.store
+   (tee_local $0
+    (call $~lib/memory/memory.allocate)
+   )
+   (f64.const 0)
+  )
+  (set_global $tuple/box
+   (get_local $0)
+  )
+  (set_local $1
+   (call $tuple/mixed
+    (f64.const 7.25)
+   )
+  )
+  (f64.store
+   (get_global $tuple/box)
+   (get_local $1)
+  )
+  (set_global $tuple/neg
+   (i32.and
+    (get_global $~tuple2:i)
+    (i32.const 1)
+   )
+  )
+  (if
+   (tee_local $0
+    (f64.eq
+     (f64.load
+      (get_global $tuple/box)
+     )
+     (f64.const 7.25)
+    )
+   )
+   (set_local $0
+    (i32.eqz
+     (get_global $tuple/neg)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 49)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $tuple/q
+   (call $tuple/divmod
+    (i32.const 9)
+    (i32.const 2)
+   )
+  )
+  (if
+   (i32.ne
+    (get_global $tuple/q)
+    (i32.const 4)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 51)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (drop
+   (call $tuple/divmod
+    (i32.const 9)
+    (i32.const 2)
+   )
+  )
+  (set_global $tuple/f
+   (f64.convert_s/i32
+    (get_global $~tuple1:i)
+   )
+  )
+  (if
+   (f64.ne
+    (get_global $tuple/f)
+    (f64.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 55)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $tuple/q
+   (call $tuple/forward)
+  )
+  (set_global $tuple/r
+   (get_global $~tuple1:i)
+  )
+  (if
+   (tee_local $0
+    (i32.eq
+     (get_global $tuple/q)
+     (i32.const 3)
+    )
+   )
+   (set_local $0
+    (i32.eq
+     (get_global $tuple/r)
+     (i32.const 1)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 59)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $tuple/q
+   (call $tuple/swapped)
+  )
+  (set_global $tuple/r
+   (get_global $~tuple1:i)
+  )
+  (if
+   (tee_local $0
+    (i32.eq
+     (get_global $tuple/q)
+     (i32.const 3)
+    )
+   )
+   (set_local $0
+    (i32.eq
+     (get_global $tuple/r)
+     (i32.const 10)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 62)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $~tuple1:i
+   (i32.const 3)
+  )
+  (set_global $tuple/q
+   (i32.const 2)
+  )
+  (set_global $tuple/r
+   (get_global $~tuple1:i)
+  )
+  (if
+   (tee_local $0
+    (i32.eq
+     (get_global $tuple/q)
+     (i32.const 2)
+    )
+   )
+   (set_local $0
+    (i32.eq
+     (get_global $tuple/r)
+     (i32.const 3)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 65)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (drop
+   (call $tuple/divmod
+    (i32.const 1)
+    (i32.const 1)
+   )
+  )
+ )
+)
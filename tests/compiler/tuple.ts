@@ -0,0 +1,67 @@
+import "allocator/arena";
+
+function divmod(a: i32, b: i32): [i32, i32] {
+  return [a / b, a % b];
+}
+
+function mixed(x: f64): [f64, i64, bool] {
+  if (x < 0) return [-x, -1, true];
+  return [x, <i64>x, false];
+}
+
+function forward(a: i32): [i32, i32] {
+  return divmod(a, 3);
+}
+
+// elements evaluated before any is passed
+function swapped(a: i32): [i32, i32] {
+  var q: i32, r: i32;
+  [q, r] = divmod(a, 4);
+  return [r, second(q)];
+}
+
+function second(first: i32): i32 {
+  var value: i32;
+  [, value] = divmod(first, 1); // clobbers the helper global
+  return value + 10;
+}
+
+@inline
+function inlined(a: i32): [i32, i32] {
+  return [a + 1, a + 2];
+}
+
+class Box {
+  value: f64 = 0;
+}
+
+var q: i32, r: i32;
+[q, r] = divmod(17, 5);
+assert(q == 3 && r == 2);
+
+var f: f64, n: i64, neg: bool;
+[f, n, neg] = mixed(-2.5);
+assert(f == 2.5 && n == -1 && neg);
+
+// omitted elements and other targets
+var box = new Box();
+[box.value, , neg] = mixed(7.25);
+assert(box.value == 7.25 && !neg);
+[q] = divmod(9, 2);
+assert(q == 4);
+
+// conversion of elements to the target's type
+[, f] = divmod(9, 2);
+assert(f == 1);
+
+// forwarding a tuple
+[q, r] = forward(10);
+assert(q == 3 && r == 1);
+
+[q, r] = swapped(11);
+assert(q == 3 && r == 10);
+
+[q, r] = inlined(1);
+assert(q == 2 && r == 3);
+
+divmod(1, 1); // discarded
@@ -0,0 +1,1182 @@
+(module
+ (type $ii (func (param i32) (result i32)))
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $iii (func (param i32 i32) (result i32)))
+ (type $iiv (func (param i32 i32)))
+ (type $v (func))
+ (type $FUNCSIG$i (func (result i32)))
+ (type $FUNCSIG$ii (func (param i32) (result i32)))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
+ (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $virtual/bird (mut i32) (i32.const 0))
+ (global $virtual/dog (mut i32) (i32.const 0))
+ (global $virtual/leaf (mut i32) (i32.const 0))
+ (global $virtual/computed (mut i32) (i32.const 0))
+ (global $virtual/tagged (mut i32) (i32.const 0))
+ (global $virtual/raw1 (mut i32) (i32.const 0))
+ (global $virtual/raw2 (mut i32) (i32.const 0))
+ (global $virtual/rawBase (mut i32) (i32.const 0))
+ (global $RTTI_BASE i32 (i32.const 32))
+ (memory $0 1)
+ (data (i32.const 8) "\n\00\00\00v\00i\00r\00t\00u\00a\00l\00.\00t\00s")
+ (data (i32.const 32) "\11\00\00\00\01")
+ (data (i32.const 48) "\02")
+ (data (i32.const 60) "\03\00\00\00\00\00\00\00\04\00\00\00\04\00\00\00\00\00\00\00\04\00\00\00\05\00\00\00\04\00\00\00\04\00\00\00\06\00\00\00\05\00\00\00\04\00\00\00\07\00\00\00\04\00\00\00\04\00\00\00\08\00\00\00\00\00\00\00\01\00\00\00\t\00\00\00\00\00\00\00\04\00\00\00\n\00\00\00\00\00\00\00\04\00\00\00\0b\00\00\00\04\00\00\00\04\00\00\00\0c\00\00\00\00\00\00\00\01\00\00\00\0d\00\00\00\00\00\00\00\04\00\00\00\0e\00\00\00\00\00\00\00\04\00\00\00\0f\00\00\00\00\00\00\00\04\00\00\00\10")
+ (data (i32.const 228) "\11\00\00\00\10")
+ (export "RTTI_BASE" (global $RTTI_BASE))
+ (export "memory" (memory $0))
+ (start $start)
+ (func $~lib/allocator/arena/__memory_allocate (; 1 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (i32.const 1073741824)
+   )
+   (unreachable)
+  )
+  (if
+   (i32.gt_u
+    (tee_local $2
+     (i32.and
+      (i32.add
+       (i32.add
+        (tee_local $1
+         (get_global $~lib/allocator/arena/offset)
+        )
+        (select
+         (get_local $0)
+         (i32.const 1)
+         (i32.gt_u
+          (get_local $0)
+          (i32.const 1)
+         )
+        )
+       )
+       (i32.const 7)
+      )
+      (i32.const -8)
+     )
+    )
+    (i32.shl
+     (tee_local $3
+      (current_memory)
+     )
+     (i32.const 16)
+    )
+   )
+   (if
+    (i32.lt_s
+     (grow_memory
+      (select
+       (get_local $3)
+       (tee_local $0
+        (i32.shr_u
+         (i32.and
+          (i32.add
+           (i32.sub
+            (get_local $2)
+            (get_local $1)
+           )
+           (i32.const 65535)
+          )
+          (i32.const -65536)
+         )
+         (i32.const 16)
+        )
+       )
+       (i32.gt_s
+        (get_local $3)
+        (get_local $0)
+       )
+      )
+     )
+     (i32.const 0)
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $0)
+      )
+      (i32.const 0)
+     )
+     (unreachable)
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_local $2)
+  )
+  (get_local $1)
+ )
+ (func $~lib/memory/memory.allocate (; 2 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $~lib/allocator/arena/__memory_allocate
+   (get_local $0)
+  )
+ )
+ (func $virtual/speak (; 3 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $virtual/Animal#speak|virtual
+   (get_local $0)
+  )
+ )
+ (func $virtual/kind (; 4 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $virtual/Animal#get:kind|virtual
+   (get_local $0)
+  )
+ )
+ (func $virtual/Square#constructor (; 5 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (local $0 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 12)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 9)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 3)
+  )
+  (get_local $0)
+ )
+ (func $virtual/area (; 6 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $virtual/Shape#area|virtual
+   (get_local $0)
+  )
+ )
+ (func $virtual/Rect#constructor (; 7 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (local $0 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 10)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 2)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 5)
+  )
+  (get_local $0)
+ )
+ (func $virtual/Leaf#speak (; 8 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (i32.const 2)
+ )
+ (func $virtual/Item#constructor (; 9 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (local $0 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 12)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 13)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 1)
+  )
+  (get_local $0)
+ )
+ (func $virtual/getId (; 10 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (call $virtual/Named#id|get
+   (get_local $0)
+  )
+ )
+ (func $virtual/Tagged#constructor (; 11 ;) (; has Stack IR ;) (type $FUNCSIG$ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (i32.store
+   (i32.sub
+    (tee_local $1
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 20)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 14)
+  )
+  (i64.store
+   (get_local $1)
+   (i64.const 0)
+  )
+  (i32.store offset=8
+   (get_local $1)
+   (get_local $0)
+  )
+  (get_local $1)
+ )
+ (func $virtual/setId (; 12 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (call $virtual/Named#id|set
+   (get_local $0)
+   (get_local $1)
+  )
+  (get_local $1)
+ )
+ (func $virtual/RawBase#speak (; 13 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (i32.const 0)
+ )
+ (func $virtual/Raw#speak (; 14 ;) (; has Stack IR ;) (type $FUNCSIG$i) (result i32)
+  (i32.const 1)
+ )
+ (func $virtual/Puppy#speak (; 15 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.add
+   (call $virtual/Raw#speak)
+   (i32.const 10)
+  )
+ )
+ (func $virtual/Animal#count (; 16 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.mul
+   (get_local $1)
+   (i32.load
+    (get_local $0)
+   )
+  )
+ )
+ (func $virtual/Bird#count (; 17 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.add
+   (get_local $1)
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+ )
+ (func $virtual/Square#area (; 18 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.mul
+   (i32.load
+    (get_local $0)
+   )
+   (i32.load
+    (get_local $0)
+   )
+  )
+ )
+ (func $virtual/Rect#area (; 19 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.mul
+   (i32.load
+    (get_local $0)
+   )
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+ )
+ (func $virtual/Computed#get:id (; 20 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (i32.add
+   (i32.load
+    (get_local $0)
+   )
+   (i32.const 100)
+  )
+ )
+ (func $virtual/Computed#set:id (; 21 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (i32.store
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $virtual/Named#id|get (; 22 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eq
+    (tee_local $1
+     (i32.load
+      (i32.sub
+       (get_local $0)
+       (i32.const 4)
+      )
+     )
+    )
+    (i32.const 13)
+   )
+   (return
+    (i32.load
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 14)
+   )
+   (return
+    (i32.load offset=8
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 15)
+   )
+   (return
+    (call $virtual/Computed#get:id
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $virtual/Named#id|set (; 23 ;) (; has Stack IR ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (if
+   (i32.eq
+    (tee_local $2
+     (i32.load
+      (i32.sub
+       (get_local $0)
+       (i32.const 4)
+      )
+     )
+    )
+    (i32.const 13)
+   )
+   (block
+    (i32.store
+     (get_local $0)
+     (get_local $1)
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $2)
+    (i32.const 14)
+   )
+   (block
+    (i32.store offset=8
+     (get_local $0)
+     (get_local $1)
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $2)
+    (i32.const 15)
+   )
+   (block
+    (call $virtual/Computed#set:id
+     (get_local $0)
+     (get_local $1)
+    )
+    (return)
+   )
+  )
+  (unreachable)
+ )
+ (func $virtual/Animal#speak|virtual (; 24 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eq
+    (tee_local $1
+     (i32.load
+      (i32.sub
+       (get_local $0)
+       (i32.const 4)
+      )
+     )
+    )
+    (i32.const 5)
+   )
+   (return
+    (call $virtual/Raw#speak)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 6)
+   )
+   (return
+    (call $virtual/Puppy#speak
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 11)
+   )
+   (return
+    (call $virtual/Leaf#speak)
+   )
+  )
+  (call $virtual/RawBase#speak)
+ )
+ (func $virtual/Animal#get:kind|virtual (; 25 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.or
+    (i32.eq
+     (tee_local $1
+      (i32.load
+       (i32.sub
+        (get_local $0)
+        (i32.const 4)
+       )
+      )
+     )
+     (i32.const 5)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 6)
+    )
+   )
+   (return
+    (call $virtual/Raw#speak)
+   )
+  )
+  (call $virtual/RawBase#speak)
+ )
+ (func $virtual/Animal#count|virtual (; 26 ;) (; has Stack IR ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (if
+   (i32.eq
+    (i32.load
+     (i32.sub
+      (get_local $0)
+      (i32.const 4)
+     )
+    )
+    (i32.const 7)
+   )
+   (return
+    (call $virtual/Bird#count
+     (get_local $0)
+     (get_local $1)
+    )
+   )
+  )
+  (call $virtual/Animal#count
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $virtual/Shape#area|virtual (; 27 ;) (; has Stack IR ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (if
+   (i32.eq
+    (tee_local $1
+     (i32.load
+      (i32.sub
+       (get_local $0)
+       (i32.const 4)
+      )
+     )
+    )
+    (i32.const 9)
+   )
+   (return
+    (call $virtual/Square#area
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 10)
+   )
+   (return
+    (call $virtual/Rect#area
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $start (; 28 ;) (; has Stack IR ;) (type $v)
+  (local $0 i32)
+  (set_global $~lib/allocator/arena/startOffset
+   (i32.const 240)
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_global $~lib/allocator/arena/startOffset)
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 12)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 4)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 4)
+  )
+  (if
+   (call $virtual/speak
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 32)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 12)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 5)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 4)
+  )
+  (if
+   (i32.ne
+    (call $virtual/speak
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 33)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 12)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 6)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 4)
+  )
+  (if
+   (i32.ne
+    (call $virtual/speak
+     (get_local $0)
+    )
+    (i32.const 11)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 34)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 7)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 2)
+  )
+  (if
+   (call $virtual/speak
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 35)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 12)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 4)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 4)
+  )
+  (if
+   (call $virtual/kind
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 37)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 12)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 5)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 4)
+  )
+  (if
+   (i32.ne
+    (call $virtual/kind
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 38)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 12)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 6)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 4)
+  )
+  (if
+   (i32.ne
+    (call $virtual/kind
+     (get_local $0)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 39)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 16)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 7)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 2)
+  )
+  (set_global $virtual/bird
+   (get_local $0)
+  )
+  (if
+   (i32.ne
+    (call $virtual/Animal#count|virtual
+     (get_global $virtual/bird)
+     (i32.const 1)
+    )
+    (i32.const 3)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 42)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $virtual/Animal#count|virtual
+     (get_global $virtual/bird)
+     (i32.const 3)
+    )
+    (i32.const 5)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 43)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 12)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 5)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 4)
+  )
+  (set_global $virtual/dog
+   (get_local $0)
+  )
+  (if
+   (i32.ne
+    (call $virtual/Animal#count|virtual
+     (get_global $virtual/dog)
+     (i32.const 1)
+    )
+    (i32.const 4)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 45)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $virtual/area
+     (call $virtual/Square#constructor)
+    )
+    (i32.const 9)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 65)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $virtual/area
+     (call $virtual/Rect#constructor)
+    )
+    (i32.const 10)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 66)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 12)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 11)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 4)
+  )
+  (set_global $virtual/leaf
+   (get_local $0)
+  )
+  (if
+   (i32.ne
+    (call $virtual/Leaf#speak)
+    (i32.const 2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 74)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $virtual/speak
+     (get_global $virtual/leaf)
+    )
+    (i32.const 2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 75)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $virtual/getId
+     (call $virtual/Item#constructor)
+    )
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 104)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $virtual/getId
+     (call $virtual/Tagged#constructor
+      (i32.const 2)
+     )
+    )
+    (i32.const 2)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 105)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (i32.sub
+    (tee_local $0
+     (i32.add
+      (call $~lib/memory/memory.allocate
+       (i32.const 12)
+      )
+      (i32.const 8)
+     )
+    )
+    (i32.const 4)
+   )
+   (i32.const 15)
+  )
+  (i32.store
+   (get_local $0)
+   (i32.const 0)
+  )
+  (set_global $virtual/computed
+   (get_local $0)
+  )
+  (if
+   (i32.ne
+    (call $virtual/getId
+     (get_global $virtual/computed)
+    )
+    (i32.const 100)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 107)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $virtual/setId
+     (get_global $virtual/computed)
+     (i32.const 3)
+    )
+    (i32.const 3)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 108)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $virtual/getId
+     (get_global $virtual/computed)
+    )
+    (i32.const 103)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 109)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $virtual/tagged
+   (call $virtual/Tagged#constructor
+    (i32.const 4)
+   )
+  )
+  (drop
+   (call $virtual/setId
+    (get_global $virtual/tagged)
+    (i32.const 5)
+   )
+  )
+  (if
+   (tee_local $0
+    (i32.eq
+     (i32.load offset=8
+      (get_global $virtual/tagged)
+     )
+     (i32.const 5)
+    )
+   )
+   (set_local $0
+    (i64.eq
+     (i64.load
+      (get_global $virtual/tagged)
+     )
+     (i64.const 0)
+    )
+   )
+  )
+  (if
+   (i32.eqz
+    (get_local $0)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 112)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (i32.store
+   (tee_local $0
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (set_global $virtual/raw1
+   (get_local $0)
+  )
+  (i32.store
+   (tee_local $0
+    (call $~lib/memory/memory.allocate
+     (i32.const 8)
+    )
+   )
+   (i32.const 0)
+  )
+  (i32.store offset=4
+   (get_local $0)
+   (i32.const 0)
+  )
+  (set_global $virtual/raw2
+   (get_local $0)
+  )
+  (if
+   (i32.ne
+    (i32.sub
+     (get_global $virtual/raw2)
+     (get_global $virtual/raw1)
+    )
+    (i32.const 8)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 129)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $virtual/rawBase
+   (get_global $virtual/raw1)
+  )
+  (if
+   (call $virtual/RawBase#speak)
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 131)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.ne
+    (call $virtual/Raw#speak)
+    (i32.const 1)
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 132)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+ )
+)
@@ -0,0 +1,132 @@
+import "allocator/arena";
+
+class Animal {
+  legs: i32 = 4;
+  speak(): i32 { return 0; }
+  get kind(): i32 { return 0; }
+  count(n: i32 = 1): i32 { return n * this.legs; }
+}
+
+class Dog extends Animal {
+  speak(): i32 { return 1; }
+  get kind(): i32 { return 1; }
+}
+
+class Puppy extends Dog {
+  speak(): i32 { return super.speak() + 10; }
+}
+
+class Bird extends Animal {
+  legs: i32 = 2;
+  count(n: i32 = 1): i32 { return n + this.legs; }
+}
+
+function speak(animal: Animal): i32 {
+  return animal.speak();
+}
+
+function kind(animal: Animal): i32 {
+  return animal.kind;
+}
+
+assert(speak(new Animal()) == 0);
+assert(speak(new Dog()) == 1);
+assert(speak(new Puppy()) == 11);
+assert(speak(new Bird()) == 0);
+
+assert(kind(new Animal()) == 0);
+assert(kind(new Dog()) == 1);
+assert(kind(new Puppy()) == 1);
+
+var bird: Animal = new Bird();
+assert(bird.count() == 3);
+assert(bird.count(3) == 5);
+var dog: Animal = new Dog();
+assert(dog.count() == 4);
+
+interface Shape {
+  area(): i32;
+}
+
+class Square implements Shape {
+  constructor(public size: i32) {}
+  area(): i32 { return this.size * this.size; }
+}
+
+class Rect implements Shape {
+  constructor(public width: i32, public height: i32) {}
+  area(): i32 { return this.width * this.height; }
+}
+
+function area(shape: Shape): i32 {
+  return shape.area();
+}
+
+assert(area(new Square(3)) == 9);
+assert(area(new Rect(2, 5)) == 10);
+
+@sealed
+class Leaf extends Animal {
+  speak(): i32 { return 2; }
+}
+
+var leaf = new Leaf();
+assert(leaf.speak() == 2);
+assert(speak(leaf) == 2);
+
+interface Named {
+  id: i32;
+}
+
+class Item implements Named {
+  constructor(public id: i32) {}
+}
+
+class Tagged implements Named {
+  tag: i64 = 0;
+  constructor(public id: i32) {}
+}
+
+class Computed implements Named {
+  last: i32 = 0;
+  get id(): i32 { return this.last + 100; }
+  set id(id: i32) { this.last = id; }
+}
+
+function getId(named: Named): i32 {
+  return named.id;
+}
+
+function setId(named: Named, id: i32): i32 {
+  return named.id = id;
+}
+
+assert(getId(new Item(1)) == 1);
+assert(getId(new Tagged(2)) == 2);
+var computed = new Computed();
+assert(getId(computed) == 100);
+assert(setId(computed, 3) == 3);
+assert(getId(computed) == 103);
+var tagged = new Tagged(4);
+setId(tagged, 5);
+assert(tagged.id == 5 && tagged.tag == 0);
+
+@unmanaged
+class RawBase {
+  a: i32;
+  speak(): i32 { return 0; }
+}
+
+@unmanaged
+class Raw extends RawBase {
+  b: i32;
+  speak(): i32 { return 1; }
+}
+
+// unmanaged instances keep their raw layout without a class id and dispatch statically
+var raw1 = new Raw();
+var raw2 = new Raw();
+assert(changetype<usize>(raw2) - changetype<usize>(raw1) == offsetof<Raw>());
+var rawBase: RawBase = raw1;
+assert(rawBase.speak() == 0);
+assert(raw1.speak() == 1);
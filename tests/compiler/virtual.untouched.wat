@@ -0,0 +1,1476 @@
+(module
+ (type $ii (func (param i32) (result i32)))
+ (type $iiiiv (func (param i32 i32 i32 i32)))
+ (type $iii (func (param i32 i32) (result i32)))
+ (type $iiii (func (param i32 i32 i32) (result i32)))
+ (type $iiv (func (param i32 i32)))
+ (type $v (func))
+ (import "env" "abort" (func $~lib/env/abort (param i32 i32 i32 i32)))
+ (global $~lib/internal/allocator/AL_BITS i32 (i32.const 3))
+ (global $~lib/internal/allocator/AL_SIZE i32 (i32.const 8))
+ (global $~lib/internal/allocator/AL_MASK i32 (i32.const 7))
+ (global $~lib/internal/allocator/MAX_SIZE_32 i32 (i32.const 1073741824))
+ (global $~lib/allocator/arena/startOffset (mut i32) (i32.const 0))
+ (global $~lib/allocator/arena/offset (mut i32) (i32.const 0))
+ (global $virtual/bird (mut i32) (i32.const 0))
+ (global $virtual/dog (mut i32) (i32.const 0))
+ (global $virtual/leaf (mut i32) (i32.const 0))
+ (global $virtual/computed (mut i32) (i32.const 0))
+ (global $virtual/tagged (mut i32) (i32.const 0))
+ (global $virtual/raw1 (mut i32) (i32.const 0))
+ (global $virtual/raw2 (mut i32) (i32.const 0))
+ (global $virtual/rawBase (mut i32) (i32.const 0))
+ (global $RTTI_BASE i32 (i32.const 32))
+ (global $HEAP_BASE i32 (i32.const 240))
+ (memory $0 1)
+ (data (i32.const 8) "\n\00\00\00v\00i\00r\00t\00u\00a\00l\00.\00t\00s\00")
+ (data (i32.const 32) "\11\00\00\00\01\00\00\00\00\00\00\00\00\00\00\00\02\00\00\00\00\00\00\00\00\00\00\00\03\00\00\00\00\00\00\00\04\00\00\00\04\00\00\00\00\00\00\00\04\00\00\00\05\00\00\00\04\00\00\00\04\00\00\00\06\00\00\00\05\00\00\00\04\00\00\00\07\00\00\00\04\00\00\00\04\00\00\00\08\00\00\00\00\00\00\00\01\00\00\00\t\00\00\00\00\00\00\00\04\00\00\00\n\00\00\00\00\00\00\00\04\00\00\00\0b\00\00\00\04\00\00\00\04\00\00\00\0c\00\00\00\00\00\00\00\01\00\00\00\0d\00\00\00\00\00\00\00\04\00\00\00\0e\00\00\00\00\00\00\00\04\00\00\00\0f\00\00\00\00\00\00\00\04\00\00\00\10\00\00\00\00\00\00\00\00\00\00\00\11\00\00\00\10\00\00\00\00\00\00\00")
+ (export "RTTI_BASE" (global $RTTI_BASE))
+ (export "memory" (memory $0))
+ (start $start)
+ (func $~lib/allocator/arena/__memory_allocate (; 1 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (if
+   (i32.gt_u
+    (get_local $0)
+    (get_global $~lib/internal/allocator/MAX_SIZE_32)
+   )
+   (unreachable)
+  )
+  (set_local $1
+   (get_global $~lib/allocator/arena/offset)
+  )
+  (set_local $4
+   (i32.and
+    (i32.add
+     (i32.add
+      (get_local $1)
+      (select
+       (tee_local $2
+        (get_local $0)
+       )
+       (tee_local $3
+        (i32.const 1)
+       )
+       (i32.gt_u
+        (get_local $2)
+        (get_local $3)
+       )
+      )
+     )
+     (get_global $~lib/internal/allocator/AL_MASK)
+    )
+    (i32.xor
+     (get_global $~lib/internal/allocator/AL_MASK)
+     (i32.const -1)
+    )
+   )
+  )
+  (set_local $5
+   (current_memory)
+  )
+  (if
+   (i32.gt_u
+    (get_local $4)
+    (i32.shl
+     (get_local $5)
+     (i32.const 16)
+    )
+   )
+   (block
+    (set_local $2
+     (i32.shr_u
+      (i32.and
+       (i32.add
+        (i32.sub
+         (get_local $4)
+         (get_local $1)
+        )
+        (i32.const 65535)
+       )
+       (i32.xor
+        (i32.const 65535)
+        (i32.const -1)
+       )
+      )
+      (i32.const 16)
+     )
+    )
+    (set_local $3
+     (select
+      (tee_local $3
+       (get_local $5)
+      )
+      (tee_local $6
+       (get_local $2)
+      )
+      (i32.gt_s
+       (get_local $3)
+       (get_local $6)
+      )
+     )
+    )
+    (if
+     (i32.lt_s
+      (grow_memory
+       (get_local $3)
+      )
+      (i32.const 0)
+     )
+     (if
+      (i32.lt_s
+       (grow_memory
+        (get_local $2)
+       )
+       (i32.const 0)
+      )
+      (unreachable)
+     )
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_local $4)
+  )
+  (get_local $1)
+ )
+ (func $~lib/memory/memory.allocate (; 2 ;) (type $ii) (param $0 i32) (result i32)
+  (return
+   (call $~lib/allocator/arena/__memory_allocate
+    (get_local $0)
+   )
+  )
+ )
+ (func $virtual/speak (; 3 ;) (type $ii) (param $0 i32) (result i32)
+  (call $virtual/Animal#speak|virtual
+   (get_local $0)
+  )
+ )
+ (func $virtual/kind (; 4 ;) (type $ii) (param $0 i32) (result i32)
+  (call $virtual/Animal#get:kind|virtual
+   (get_local $0)
+  )
+ )
+ (func $virtual/Square#constructor (; 5 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $2
+       (block (result i32)
+        (i32.store
+         (i32.sub
+          (tee_local $3
+           (i32.add
+            (call $~lib/memory/memory.allocate
+             (i32.const 12)
+            )
+            (i32.const 8)
+           )
+          )
+          (i32.const 4)
+         )
+         (i32.const 9)
+        )
+        (get_local $3)
+       )
+      )
+      (i32.store
+       (get_local $2)
+       (get_local $1)
+      )
+      (get_local $2)
+     )
+    )
+   )
+  )
+ )
+ (func $virtual/area (; 6 ;) (type $ii) (param $0 i32) (result i32)
+  (call $virtual/Shape#area|virtual
+   (get_local $0)
+  )
+ )
+ (func $virtual/Rect#constructor (; 7 ;) (type $iiii) (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $3
+       (block (result i32)
+        (i32.store
+         (i32.sub
+          (tee_local $4
+           (i32.add
+            (call $~lib/memory/memory.allocate
+             (i32.const 16)
+            )
+            (i32.const 8)
+           )
+          )
+          (i32.const 4)
+         )
+         (i32.const 10)
+        )
+        (get_local $4)
+       )
+      )
+      (i32.store
+       (get_local $3)
+       (get_local $1)
+      )
+      (i32.store offset=4
+       (get_local $3)
+       (get_local $2)
+      )
+      (get_local $3)
+     )
+    )
+   )
+  )
+ )
+ (func $virtual/Leaf#speak (; 8 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.const 2)
+ )
+ (func $virtual/Item#constructor (; 9 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $2
+       (block (result i32)
+        (i32.store
+         (i32.sub
+          (tee_local $3
+           (i32.add
+            (call $~lib/memory/memory.allocate
+             (i32.const 12)
+            )
+            (i32.const 8)
+           )
+          )
+          (i32.const 4)
+         )
+         (i32.const 13)
+        )
+        (get_local $3)
+       )
+      )
+      (i32.store
+       (get_local $2)
+       (get_local $1)
+      )
+      (get_local $2)
+     )
+    )
+   )
+  )
+ )
+ (func $virtual/getId (; 10 ;) (type $ii) (param $0 i32) (result i32)
+  (call $virtual/Named#id|get
+   (get_local $0)
+  )
+ )
+ (func $virtual/Tagged#constructor (; 11 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (tee_local $0
+   (if (result i32)
+    (get_local $0)
+    (get_local $0)
+    (tee_local $0
+     (block (result i32)
+      (set_local $2
+       (block (result i32)
+        (i32.store
+         (i32.sub
+          (tee_local $3
+           (i32.add
+            (call $~lib/memory/memory.allocate
+             (i32.const 20)
+            )
+            (i32.const 8)
+           )
+          )
+          (i32.const 4)
+         )
+         (i32.const 14)
+        )
+        (get_local $3)
+       )
+      )
+      (i64.store
+       (get_local $2)
+       (i64.const 0)
+      )
+      (i32.store offset=8
+       (get_local $2)
+       (get_local $1)
+      )
+      (get_local $2)
+     )
+    )
+   )
+  )
+ )
+ (func $virtual/setId (; 12 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (call $virtual/Named#id|set
+   (get_local $0)
+   (tee_local $2
+    (get_local $1)
+   )
+  )
+  (get_local $2)
+ )
+ (func $virtual/RawBase#speak (; 13 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.const 0)
+ )
+ (func $virtual/Raw#speak (; 14 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.const 1)
+ )
+ (func $virtual/Animal#speak (; 15 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.const 0)
+ )
+ (func $virtual/Dog#speak (; 16 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.const 1)
+ )
+ (func $virtual/Puppy#speak (; 17 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.add
+   (call $virtual/Dog#speak
+    (get_local $0)
+   )
+   (i32.const 10)
+  )
+ )
+ (func $virtual/Animal#get:kind (; 18 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.const 0)
+ )
+ (func $virtual/Dog#get:kind (; 19 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.const 1)
+ )
+ (func $virtual/Animal#count (; 20 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.mul
+   (get_local $1)
+   (i32.load
+    (get_local $0)
+   )
+  )
+ )
+ (func $virtual/Bird#count (; 21 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (i32.add
+   (get_local $1)
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+ )
+ (func $virtual/Square#area (; 22 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.mul
+   (i32.load
+    (get_local $0)
+   )
+   (i32.load
+    (get_local $0)
+   )
+  )
+ )
+ (func $virtual/Rect#area (; 23 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.mul
+   (i32.load
+    (get_local $0)
+   )
+   (i32.load offset=4
+    (get_local $0)
+   )
+  )
+ )
+ (func $virtual/Computed#get:id (; 24 ;) (type $ii) (param $0 i32) (result i32)
+  (i32.add
+   (i32.load
+    (get_local $0)
+   )
+   (i32.const 100)
+  )
+ )
+ (func $virtual/Computed#set:id (; 25 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (i32.store
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $virtual/Named#id|get (; 26 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 13)
+   )
+   (return
+    (i32.load
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 14)
+   )
+   (return
+    (i32.load offset=8
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 15)
+   )
+   (return
+    (call $virtual/Computed#get:id
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $virtual/Named#id|set (; 27 ;) (type $iiv) (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $2)
+    (i32.const 13)
+   )
+   (block
+    (i32.store
+     (get_local $0)
+     (get_local $1)
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $2)
+    (i32.const 14)
+   )
+   (block
+    (i32.store offset=8
+     (get_local $0)
+     (get_local $1)
+    )
+    (return)
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $2)
+    (i32.const 15)
+   )
+   (block
+    (call $virtual/Computed#set:id
+     (get_local $0)
+     (get_local $1)
+    )
+    (return)
+   )
+  )
+  (unreachable)
+ )
+ (func $virtual/Animal#speak|virtual (; 28 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 5)
+   )
+   (return
+    (call $virtual/Dog#speak
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 6)
+   )
+   (return
+    (call $virtual/Puppy#speak
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 11)
+   )
+   (return
+    (call $virtual/Leaf#speak
+     (get_local $0)
+    )
+   )
+  )
+  (call $virtual/Animal#speak
+   (get_local $0)
+  )
+ )
+ (func $virtual/Animal#get:kind|virtual (; 29 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.or
+    (i32.eq
+     (get_local $1)
+     (i32.const 5)
+    )
+    (i32.eq
+     (get_local $1)
+     (i32.const 6)
+    )
+   )
+   (return
+    (call $virtual/Dog#get:kind
+     (get_local $0)
+    )
+   )
+  )
+  (call $virtual/Animal#get:kind
+   (get_local $0)
+  )
+ )
+ (func $virtual/Animal#count|virtual (; 30 ;) (type $iii) (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (set_local $2
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $2)
+    (i32.const 7)
+   )
+   (return
+    (call $virtual/Bird#count
+     (get_local $0)
+     (get_local $1)
+    )
+   )
+  )
+  (call $virtual/Animal#count
+   (get_local $0)
+   (get_local $1)
+  )
+ )
+ (func $virtual/Shape#area|virtual (; 31 ;) (type $ii) (param $0 i32) (result i32)
+  (local $1 i32)
+  (set_local $1
+   (i32.load
+    (i32.sub
+     (get_local $0)
+     (i32.const 4)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 9)
+   )
+   (return
+    (call $virtual/Square#area
+     (get_local $0)
+    )
+   )
+  )
+  (if
+   (i32.eq
+    (get_local $1)
+    (i32.const 10)
+   )
+   (return
+    (call $virtual/Rect#area
+     (get_local $0)
+    )
+   )
+  )
+  (unreachable)
+ )
+ (func $start (; 32 ;) (type $v)
+  (local $0 i32)
+  (local $1 i32)
+  (set_global $~lib/allocator/arena/startOffset
+   (i32.and
+    (i32.add
+     (get_global $HEAP_BASE)
+     (get_global $~lib/internal/allocator/AL_MASK)
+    )
+    (i32.xor
+     (get_global $~lib/internal/allocator/AL_MASK)
+     (i32.const -1)
+    )
+   )
+  )
+  (set_global $~lib/allocator/arena/offset
+   (get_global $~lib/allocator/arena/startOffset)
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/speak
+      (block (result i32)
+       (set_local $0
+        (block (result i32)
+         (i32.store
+          (i32.sub
+           (tee_local $1
+            (i32.add
+             (call $~lib/memory/memory.allocate
+              (i32.const 12)
+             )
+             (i32.const 8)
+            )
+           )
+           (i32.const 4)
+          )
+          (i32.const 4)
+         )
+         (get_local $1)
+        )
+       )
+       (i32.store
+        (get_local $0)
+        (i32.const 4)
+       )
+       (get_local $0)
+      )
+     )
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 32)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/speak
+      (block (result i32)
+       (set_local $0
+        (block (result i32)
+         (i32.store
+          (i32.sub
+           (tee_local $1
+            (i32.add
+             (call $~lib/memory/memory.allocate
+              (i32.const 12)
+             )
+             (i32.const 8)
+            )
+           )
+           (i32.const 4)
+          )
+          (i32.const 5)
+         )
+         (get_local $1)
+        )
+       )
+       (i32.store
+        (get_local $0)
+        (i32.const 4)
+       )
+       (get_local $0)
+      )
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 33)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/speak
+      (block (result i32)
+       (set_local $0
+        (block (result i32)
+         (i32.store
+          (i32.sub
+           (tee_local $1
+            (i32.add
+             (call $~lib/memory/memory.allocate
+              (i32.const 12)
+             )
+             (i32.const 8)
+            )
+           )
+           (i32.const 4)
+          )
+          (i32.const 6)
+         )
+         (get_local $1)
+        )
+       )
+       (i32.store
+        (get_local $0)
+        (i32.const 4)
+       )
+       (get_local $0)
+      )
+     )
+     (i32.const 11)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 34)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/speak
+      (block (result i32)
+       (set_local $0
+        (block (result i32)
+         (i32.store
+          (i32.sub
+           (tee_local $1
+            (i32.add
+             (call $~lib/memory/memory.allocate
+              (i32.const 16)
+             )
+             (i32.const 8)
+            )
+           )
+           (i32.const 4)
+          )
+          (i32.const 7)
+         )
+         (get_local $1)
+        )
+       )
+       (i32.store offset=4
+        (get_local $0)
+        (i32.const 2)
+       )
+       (get_local $0)
+      )
+     )
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 35)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/kind
+      (block (result i32)
+       (set_local $0
+        (block (result i32)
+         (i32.store
+          (i32.sub
+           (tee_local $1
+            (i32.add
+             (call $~lib/memory/memory.allocate
+              (i32.const 12)
+             )
+             (i32.const 8)
+            )
+           )
+           (i32.const 4)
+          )
+          (i32.const 4)
+         )
+         (get_local $1)
+        )
+       )
+       (i32.store
+        (get_local $0)
+        (i32.const 4)
+       )
+       (get_local $0)
+      )
+     )
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 37)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/kind
+      (block (result i32)
+       (set_local $0
+        (block (result i32)
+         (i32.store
+          (i32.sub
+           (tee_local $1
+            (i32.add
+             (call $~lib/memory/memory.allocate
+              (i32.const 12)
+             )
+             (i32.const 8)
+            )
+           )
+           (i32.const 4)
+          )
+          (i32.const 5)
+         )
+         (get_local $1)
+        )
+       )
+       (i32.store
+        (get_local $0)
+        (i32.const 4)
+       )
+       (get_local $0)
+      )
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 38)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/kind
+      (block (result i32)
+       (set_local $0
+        (block (result i32)
+         (i32.store
+          (i32.sub
+           (tee_local $1
+            (i32.add
+             (call $~lib/memory/memory.allocate
+              (i32.const 12)
+             )
+             (i32.const 8)
+            )
+           )
+           (i32.const 4)
+          )
+          (i32.const 6)
+         )
+         (get_local $1)
+        )
+       )
+       (i32.store
+        (get_local $0)
+        (i32.const 4)
+       )
+       (get_local $0)
+      )
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 39)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $virtual/bird
+   (block (result i32)
+    (set_local $0
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $1
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 16)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 7)
+      )
+      (get_local $1)
+     )
+    )
+    (i32.store offset=4
+     (get_local $0)
+     (i32.const 2)
+    )
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/Animal#count|virtual
+      (get_global $virtual/bird)
+      (i32.const 1)
+     )
+     (i32.const 3)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 42)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/Animal#count|virtual
+      (get_global $virtual/bird)
+      (i32.const 3)
+     )
+     (i32.const 5)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 43)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $virtual/dog
+   (block (result i32)
+    (set_local $0
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $1
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 12)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 5)
+      )
+      (get_local $1)
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (i32.const 4)
+    )
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/Animal#count|virtual
+      (get_global $virtual/dog)
+      (i32.const 1)
+     )
+     (i32.const 4)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 45)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/area
+      (call $virtual/Square#constructor
+       (i32.const 0)
+       (i32.const 3)
+      )
+     )
+     (i32.const 9)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 65)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/area
+      (call $virtual/Rect#constructor
+       (i32.const 0)
+       (i32.const 2)
+       (i32.const 5)
+      )
+     )
+     (i32.const 10)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 66)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $virtual/leaf
+   (block (result i32)
+    (set_local $0
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $1
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 12)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 11)
+      )
+      (get_local $1)
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (i32.const 4)
+    )
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/Leaf#speak
+      (get_global $virtual/leaf)
+     )
+     (i32.const 2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 74)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/speak
+      (get_global $virtual/leaf)
+     )
+     (i32.const 2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 75)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/getId
+      (call $virtual/Item#constructor
+       (i32.const 0)
+       (i32.const 1)
+      )
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 104)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/getId
+      (call $virtual/Tagged#constructor
+       (i32.const 0)
+       (i32.const 2)
+      )
+     )
+     (i32.const 2)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 105)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $virtual/computed
+   (block (result i32)
+    (set_local $0
+     (block (result i32)
+      (i32.store
+       (i32.sub
+        (tee_local $1
+         (i32.add
+          (call $~lib/memory/memory.allocate
+           (i32.const 12)
+          )
+          (i32.const 8)
+         )
+        )
+        (i32.const 4)
+       )
+       (i32.const 15)
+      )
+      (get_local $1)
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (i32.const 0)
+    )
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/getId
+      (get_global $virtual/computed)
+     )
+     (i32.const 100)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 107)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/setId
+      (get_global $virtual/computed)
+      (i32.const 3)
+     )
+     (i32.const 3)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 108)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/getId
+      (get_global $virtual/computed)
+     )
+     (i32.const 103)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 109)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $virtual/tagged
+   (call $virtual/Tagged#constructor
+    (i32.const 0)
+    (i32.const 4)
+   )
+  )
+  (drop
+   (call $virtual/setId
+    (get_global $virtual/tagged)
+    (i32.const 5)
+   )
+  )
+  (if
+   (i32.eqz
+    (if (result i32)
+     (tee_local $0
+      (i32.eq
+       (i32.load offset=8
+        (get_global $virtual/tagged)
+       )
+       (i32.const 5)
+      )
+     )
+     (i64.eq
+      (i64.load
+       (get_global $virtual/tagged)
+      )
+      (i64.const 0)
+     )
+     (get_local $0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 112)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $virtual/raw1
+   (block (result i32)
+    (set_local $0
+     (call $~lib/memory/memory.allocate
+      (i32.const 8)
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $0)
+     (i32.const 0)
+    )
+    (get_local $0)
+   )
+  )
+  (set_global $virtual/raw2
+   (block (result i32)
+    (set_local $0
+     (call $~lib/memory/memory.allocate
+      (i32.const 8)
+     )
+    )
+    (i32.store
+     (get_local $0)
+     (i32.const 0)
+    )
+    (i32.store offset=4
+     (get_local $0)
+     (i32.const 0)
+    )
+    (get_local $0)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (i32.sub
+      (get_global $virtual/raw2)
+      (get_global $virtual/raw1)
+     )
+     (i32.const 8)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 129)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (set_global $virtual/rawBase
+   (get_global $virtual/raw1)
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/RawBase#speak
+      (get_global $virtual/rawBase)
+     )
+     (i32.const 0)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 131)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+  (if
+   (i32.eqz
+    (i32.eq
+     (call $virtual/Raw#speak
+      (get_global $virtual/raw1)
+     )
+     (i32.const 1)
+    )
+   )
+   (block
+    (call $~lib/env/abort
+     (i32.const 0)
+     (i32.const 8)
+     (i32.const 132)
+     (i32.const 0)
+    )
+    (unreachable)
+   )
+  )
+ )
+)
@@ -1,25 +1,133 @@
-var binaryen = global.Binaryen = require("../lib/binaryen");
-
-require("ts-node").register({ project: require("path").join(__dirname, "..", "src", "tsconfig.json") });
-require("../src/glue/js");
-
-var mod = new binaryen.Module();
-var ftype = mod.addFunctionType("i", binaryen.i32, [ ]);
-var fn = mod.addFunction("main", ftype, [],
-  mod.block(null, [
-    mod.return(
-      mod.i32.add(
-        mod.i32.const(1),
-        mod.i32.const(2)
+const path = require("path");
+const fs = require("fs");
+const colorsUtil = require("../cli/util/colors");
+const asc = require("../cli/asc.js"); // also sets up running the sources directly
+const binaryen = require("binaryen");
+
+const Module = require("../src/module").Module;
+const Decompiler = require("../src/decompiler").Decompiler;
+
+// Each test decompiles a module, compiles the result again and checks that the exports of both
+// behave the same when called with the given arguments.
+const tests = {
+  "loop": {
+    text: `(module
+      (func $main (export "main") (param $0 i32) (result i32)
+        (local $1 i32)
+        (loop $continue
+          (block $break
+            (br_if $break (i32.ge_u (get_local $1) (get_local $0)))
+            (set_local $1 (i32.add (get_local $1) (i32.const 1)))
+            (br_table $break $continue $continue (i32.rem_u (get_local $1) (i32.const 3)))
+          )
+        )
+        (i32.mul
+          (i32.add (get_local $1) (i32.const 2))
+          (i32.sub (get_local $0) (i32.lt_s (get_local $1) (i32.const 3)))
+        )
+      )
+    )`,
+    calls: [ [ "main", 0 ], [ "main", 1 ], [ "main", 2 ], [ "main", 5 ], [ "main", 10 ] ]
+  },
+  "select": {
+    text: `(module
+      (func $positive (export "positive") (param $0 i32) (result i32)
+        (select (get_local $0) (i32.const 0) (i32.lt_s (i32.const 0) (get_local $0)))
+      )
+      (func $max (export "max") (param $0 f64) (param $1 f64) (result f64)
+        (select (get_local $0) (get_local $1) (f64.gt (get_local $0) (get_local $1)))
+      )
+    )`,
+    calls: [ [ "positive", -3 ], [ "positive", 0 ], [ "positive", 4 ], [ "max", 1.5, -2 ], [ "max", 1, 2 ] ]
+  },
+  "table": {
+    text: `(module
+      (type $ii (func (param i32) (result i32)))
+      (table 5 anyfunc)
+      (elem (i32.const 1) $negate $double $negate)
+      (func $negate (type $ii) (param $0 i32) (result i32)
+        (i32.sub (i32.const 0) (get_local $0))
+      )
+      (func $double (type $ii) (param $0 i32) (result i32)
+        (i32.shl (get_local $0) (i32.const 1))
+      )
+      (func $dispatch (export "dispatch") (param $0 i32) (param $1 i32) (result i32)
+        (call_indirect (type $ii) (get_local $1) (get_local $0))
       )
-    )
-  ])
-);
+    )`,
+    calls: [ [ "dispatch", 0, 5 ], [ "dispatch", 1, 5 ], [ "dispatch", 2, 5 ], [ "dispatch", 3, 5 ], [ "dispatch", 4, 5 ] ]
+  }
+};
+
+var failedTests = [];
+
+Object.keys(tests).forEach(name => {
+  console.log(colorsUtil.white("Testing decompiler/" + name) + "\n");
+  const test = tests[name];
+
+  const mod = binaryen.parseText(test.text);
+  if (!mod.validate()) throw Error("invalid test module: " + name);
+  const binary = mod.emitBinary();
+  mod.dispose();
+
+  const source = Decompiler.decompile(Module.createFrom(binary));
+
+  // compile the decompiled source
+  const stdout = asc.createMemoryStream();
+  const stderr = asc.createMemoryStream(chunk => process.stderr.write(chunk.toString().replace(/^(?!$)/mg, "  ")));
+  const entryPath = path.resolve(name + ".ts");
+  var error = null;
+  asc.main([ name + ".ts", "--validate", "--binaryFile" ], {
+    stdout: stdout,
+    stderr: stderr,
+    readFile: filename => filename === entryPath
+      ? source
+      : fs.existsSync(filename) ? fs.readFileSync(filename, { encoding: "utf8" }) : null
+  }, err => { error = err; });
+  if (error) {
+    console.log(source);
+    console.log("- " + colorsUtil.red("compile ERROR") + "\n");
+    failedTests.push(name);
+    return;
+  }
+  console.log("- " + colorsUtil.green("compile OK"));
+
+  // call the exports of both
+  const imports = { env: { abort: function() { throw Error("abort"); } } };
+  const expected = new WebAssembly.Instance(new WebAssembly.Module(binary), imports).exports;
+  const actual = new WebAssembly.Instance(new WebAssembly.Module(stdout.toBuffer()), imports).exports;
+  var failed = false;
+  test.calls.forEach(call => {
+    const fn = call[0];
+    const args = call.slice(1);
+    const expectedResult = invoke(expected[fn], args);
+    const actualResult = invoke(actual[fn], args);
+    if (expectedResult !== actualResult) {
+      console.log("  " + fn + "(" + args.join(", ") + ") is " + actualResult + " instead of " + expectedResult);
+      failed = true;
+    }
+  });
+  if (failed) {
+    console.log(source);
+    console.log("- " + colorsUtil.red("run ERROR") + "\n");
+    failedTests.push(name);
+  } else {
+    console.log("- " + colorsUtil.green("run OK") + "\n");
+  }
+});
 
-mod.validate();
-mod.emitText();
+// Calls a function, returning the result or "trap"
+function invoke(fn, args) {
+  try {
+    return fn.apply(null, args);
+  } catch (e) {
+    return "trap";
+  }
+}
 
-var Decompiler = require("../src/decompiler").Decompiler;
-var decompiler = new Decompiler();
-decompiler.decompileFunction(fn);
-console.log(decompiler.finish());
+if (failedTests.length) {
+  process.exitCode = 1;
+  console.log(colorsUtil.red("ERROR: ") + failedTests.length + " decompiler tests failed: " + failedTests.join(", "));
+} else {
+  console.log("[ " + colorsUtil.white("SUCCESS") + " ]");
+}
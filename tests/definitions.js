@@ -0,0 +1,195 @@
+const fs = require("fs");
+const path = require("path");
+const os = require("os");
+const vm = require("vm");
+const Module = require("module");
+const assert = require("assert");
+const glob = require("glob");
+const colorsUtil = require("../cli/util/colors");
+const optionsUtil = require("../cli/util/options");
+const diff = require("./util/diff");
+const asc = require("../cli/asc.js");
+
+const config = {
+  "create": {
+    "description": [
+      "Recreates the fixtures for the specified test(s)",
+      "or all the fixtures if no specific test is given."
+    ],
+    "type": "b"
+  },
+  "help": {
+    "description": "Prints this message and exits.",
+    "type": "b",
+    "alias": "h"
+  }
+};
+const opts = optionsUtil.parse(process.argv.slice(2), config);
+const args = opts.options;
+const argv = opts.arguments;
+
+if (args.help) {
+  console.log([
+    colorsUtil.white("SYNTAX"),
+    "  " + colorsUtil.cyan("npm run test:definitions --") + " [test1, test2 ...] [options]",
+    "",
+    colorsUtil.white("OPTIONS"),
+    optionsUtil.help(config)
+  ].join(os.EOL) + os.EOL);
+  process.exit(0);
+}
+
+const basedir = path.join(__dirname, "definitions");
+
+// Each test generates WebIDL, TypeScript definitions and JavaScript bindings that are compared to
+// their fixtures. The bindings are then used to instantiate the module and run the respective checks.
+const checks = {
+  "exports": exports => {
+    assert.strictEqual(exports.VERSION, 1);
+    exports.counter = 2;
+    assert.strictEqual(exports.count, 2);
+    assert.strictEqual(exports.Color.GREEN, 5);
+    assert.strictEqual(exports.Color.BLUE, 6);
+    assert.strictEqual(exports.add(1), 3);
+    assert.strictEqual(exports.plus(1, 1), 2);
+    assert.strictEqual(exports.quadruple(3), 12);
+    assert.strictEqual(exports.greet("world"), "Hello world");
+    assert.strictEqual(exports.sum([ 1, 2, 3.5 ]), 6.5);
+    const point = new exports.Point(3, 4);
+    assert.strictEqual(point.length, 5);
+    point.sum = 10;
+    assert.strictEqual(point.y, 7);
+    point.moveBy(1);
+    assert.strictEqual(point.x, 4);
+    assert.strictEqual(new exports.Vec(1, 2).sum, 3);
+    const point3 = new exports.Point3(1, 2);
+    assert(point3 instanceof exports.Point);
+    assert.strictEqual(point3.x, 1);
+    assert.strictEqual(point3.y, 2);
+    assert.strictEqual(point3.z, 3);
+    assert.strictEqual(exports.geometry.dot(point, point3), 4 * 1 + 7 * 2);
+    const box = exports.box(42);
+    assert.strictEqual(box.value, 42);
+    box.value = 24;
+    assert.strictEqual(box.value, 24);
+  }
+};
+
+const EXPECT_ERROR_PREFIX = "// Expect error:";
+
+// Returns an array of error strings to expect, or null if generating definitions should succeed.
+function getExpectedErrors(filePath) {
+  const lines = fs.readFileSync(filePath).toString().split("\n");
+  const expectErrorLines = lines.filter(line => line.startsWith(EXPECT_ERROR_PREFIX));
+  if (expectErrorLines.length === 0) {
+    return null;
+  }
+  return expectErrorLines.map(line => line.slice(EXPECT_ERROR_PREFIX.length).trim());
+}
+
+// Loads the generated bindings like a CommonJS module.
+function loadBindings(filename, source) {
+  const bindings = { exports: {} };
+  vm.runInThisContext(Module.wrap(source), { filename })(bindings.exports, require, bindings, filename, path.dirname(filename));
+  return bindings.exports;
+}
+
+// Get a list of all tests
+var tests = glob.sync("**/!(_*).ts", { cwd: basedir }).filter(filename => !/\.d\.ts$/.test(filename));
+
+// Run specific tests only if arguments are provided
+if (argv.length) {
+  tests = tests.filter(filename => argv.indexOf(filename.replace(/\.ts$/, "")) >= 0);
+  if (!tests.length) {
+    console.error("No matching tests: " + argv.join(" "));
+    process.exit(1);
+  }
+}
+
+var failedTests = [];
+
+(async () => {
+  for (const filename of tests) {
+    console.log(colorsUtil.white("Testing definitions/" + filename) + "\n");
+    const basename = filename.replace(/\.ts$/, "");
+    const fixtures = [ basename + ".idl", basename + ".d.ts", basename + ".js" ];
+    const expectedErrors = getExpectedErrors(path.join(basedir, filename));
+
+    const stderr = asc.createMemoryStream(chunk => process.stderr.write(chunk.toString().replace(/^(?!$)/mg, "  ")));
+    const output = {};
+    var error = null;
+    asc.main([
+      filename,
+      "--baseDir", basedir,
+      "--validate",
+      "--enable", "mutable-global",
+      "--binaryFile", basename + ".wasm",
+      "--idlFile", fixtures[0],
+      "--tsdFile", fixtures[1],
+      "--bindingsFile", fixtures[2]
+    ], {
+      stdout: asc.createMemoryStream(),
+      stderr: stderr,
+      writeFile: (name, contents) => { output[path.relative(basedir, name)] = contents; }
+    }, err => { error = err; });
+    if (expectedErrors) {
+      const stderrString = stderr.toString();
+      const missingErrors = expectedErrors.filter(expectedError => !stderrString.includes(expectedError));
+      for (const expectedError of missingErrors) {
+        console.log(`Expected error "${expectedError}" was not in the error output.`);
+      }
+      if (!error || missingErrors.length) {
+        console.log("- " + colorsUtil.red("error check ERROR") + "\n");
+        failedTests.push(basename);
+      } else {
+        console.log("- " + colorsUtil.green("error check OK") + "\n");
+      }
+      continue;
+    }
+    if (error) {
+      console.log("- " + colorsUtil.red("compile ERROR") + "\n");
+      failedTests.push(basename);
+      continue;
+    }
+
+    var failed = false;
+    for (const fixture of fixtures) {
+      const actual = output[fixture];
+      if (args.create) {
+        fs.writeFileSync(path.join(basedir, fixture), actual, { encoding: "utf8" });
+        console.log("- " + colorsUtil.yellow("Created fixture " + fixture));
+      } else {
+        const expected = fs.readFileSync(path.join(basedir, fixture), { encoding: "utf8" }).replace(/\r\n/g, "\n");
+        const diffs = diff(fixture, expected, actual);
+        if (diffs !== null) {
+          console.log(diffs);
+          console.log("- " + colorsUtil.red("diff ERROR") + " " + fixture);
+          failed = true;
+        } else {
+          console.log("- " + colorsUtil.green("diff OK") + " " + fixture);
+        }
+      }
+    }
+
+    // instantiate the module through its bindings
+    try {
+      const bindings = loadBindings(path.join(basedir, fixtures[2]), output[fixtures[2]]);
+      const exports = await bindings.instantiate(output[basename + ".wasm"]);
+      if (checks[basename]) checks[basename](exports);
+      console.log("- " + colorsUtil.green("run OK"));
+    } catch (e) {
+      console.log(e.stack);
+      console.log("- " + colorsUtil.red("run ERROR"));
+      failed = true;
+    }
+    console.log();
+    if (failed) failedTests.push(basename);
+  }
+
+  if (failedTests.length) {
+    process.exitCode = 1;
+    console.log(colorsUtil.red("ERROR: ") + failedTests.length + " definitions tests failed: " + failedTests.join(", "));
+  } else {
+    console.log("[ " + colorsUtil.white("SUCCESS") + " ]");
+  }
+})();
@@ -0,0 +1,72 @@
+declare module ASModule {
+  type i8 = number;
+  type i16 = number;
+  type i32 = number;
+  type u8 = number;
+  type u16 = number;
+  type u32 = number;
+  type f32 = number;
+  type f64 = number;
+  type bool = any;
+  type I64 = any;
+  type U64 = any;
+  type usize = number;
+  type ptr<T> = number & { __ptr: T };
+  const VERSION: i32;
+  var counter: i32;
+  var count: i32;
+  enum Color {
+    RED = 0,
+    GREEN = 5,
+    BLUE = 6,
+  }
+  function add(a: i32, b?: i32): i32;
+  function quadruple(value: i32): i32;
+  function greet(name: usize): usize;
+  function sum(values: usize): f64;
+  function plus(a: i32, b?: i32): i32;
+  class Point {
+    static wrap(ptr: ptr<Point>): Point;
+    readonly this: ptr<Point>;
+    static origin(): ptr<Point>;
+    constructor(x: i32, y: i32);
+    x: i32;
+    y: i32;
+    readonly length: f64;
+    sum: i32;
+    moveBy(dx: i32, dy?: i32): void;
+  }
+  class Vec {
+    static wrap(ptr: ptr<Vec>): Vec;
+    readonly this: ptr<Vec>;
+    static origin(): ptr<Vec>;
+    constructor(x: i32, y: i32);
+    x: i32;
+    y: i32;
+    readonly length: f64;
+    sum: i32;
+    moveBy(dx: i32, dy?: i32): void;
+  }
+  class Point3 extends Point {
+    static wrap(ptr: ptr<Point3>): Point3;
+    readonly this: ptr<Point3>;
+    z: i32;
+  }
+  function box(value: i32): usize;
+  namespace geometry {
+    const UNIT: f64;
+    function dot(a: ptr<Point>, b: ptr<Point>): i32;
+  }
+  const memory: WebAssembly.Memory & {
+    fill(dest: usize, c: u8, n: usize): void;
+    copy(dest: usize, src: usize, n: usize): void;
+    compare(vl: usize, vr: usize, n: usize): i32;
+    allocate(size: usize): usize;
+    free(ptr: usize): void;
+    reset(): void;
+  };
+  const table: WebAssembly.Table;
+  const RTTI_BASE: usize;
+  function _setargc(numArgs: u32): void;
+}
+export default ASModule;
@@ -0,0 +1,336 @@
+/** Instantiates the module using the specified imports and wraps its exports. */
+async function instantiate(module, imports = {}) {
+  const env = Object.assign({
+    abort(message, fileName, line, column) {
+      message = __liftString(message);
+      fileName = __liftString(fileName);
+      throw Error("abort: " + message + " at " + fileName + ":" + line + ":" + column);
+    }
+  }, imports.env);
+  const result = await WebAssembly.instantiate(module, Object.assign({}, imports, { env }));
+  const { exports } = result.instance || result;
+  const memory = exports.memory;
+  const allocate = exports["memory.allocate"];
+  const CLASS_ID_HEADER_SIZE = 8;
+  const STRING_ID = 0;
+  const STRING_HEADER_SIZE = 4;
+  const ARRAYBUFFER_HEADER_SIZE = 8;
+  function __allocate(size) {
+    if (!allocate) throw Error("allocating objects requires 'export { memory }'");
+    return allocate(size);
+  }
+  function __allocateObject(size, classId) {
+    if (!classId) return __allocate(size);
+    const ptr = __allocate(CLASS_ID_HEADER_SIZE + size) + CLASS_ID_HEADER_SIZE;
+    new Uint32Array(memory.buffer, ptr - 4, 1)[0] = classId;
+    return ptr;
+  }
+  function __liftString(ptr) {
+    if (!ptr) return null;
+    const length = new Uint32Array(memory.buffer, ptr, 1)[0];
+    const data = new Uint16Array(memory.buffer, ptr + STRING_HEADER_SIZE, length);
+    const parts = [];
+    for (let i = 0; i < length; i += 1024) {
+      parts.push(String.fromCharCode.apply(String, data.subarray(i, i + 1024)));
+    }
+    return parts.join("");
+  }
+  function __lowerString(value) {
+    if (value == null) return 0;
+    const length = value.length;
+    const ptr = __allocateObject(STRING_HEADER_SIZE + (length << 1), STRING_ID);
+    new Uint32Array(memory.buffer, ptr, 1)[0] = length;
+    const data = new Uint16Array(memory.buffer, ptr + STRING_HEADER_SIZE, length);
+    for (let i = 0; i < length; ++i) data[i] = value.charCodeAt(i);
+    return ptr;
+  }
+  function __liftArray(liftElement, View, ptr) {
+    if (!ptr) return null;
+    const [ buffer, length ] = new Uint32Array(memory.buffer, ptr, 2);
+    const data = new View(memory.buffer, buffer + ARRAYBUFFER_HEADER_SIZE, length);
+    const values = new Array(length);
+    for (let i = 0; i < length; ++i) values[i] = liftElement ? liftElement(data[i]) : data[i];
+    return values;
+  }
+  function __lowerArray(lowerElement, View, classId, size, values) {
+    if (values == null) return 0;
+    const length = values.length;
+    const elements = lowerElement ? Array.from(values, value => lowerElement(value)) : values;
+    const byteLength = length * View.BYTES_PER_ELEMENT;
+    const bufferSize = 1 << (32 - Math.clz32(ARRAYBUFFER_HEADER_SIZE + byteLength - 1));
+    const buffer = __allocate(bufferSize);
+    new Uint32Array(memory.buffer, buffer, 1)[0] = byteLength;
+    new View(memory.buffer, buffer + ARRAYBUFFER_HEADER_SIZE, length).set(elements);
+    const ptr = __allocateObject(size, classId);
+    new Uint32Array(memory.buffer, ptr, 2).set([ buffer, length ]);
+    return ptr;
+  }
+  function __lowerObject(value) {
+    return value == null ? 0 : value.ptr;
+  }
+  class __Object {
+    constructor() {
+      throw TypeError("illegal constructor");
+    }
+    static wrap(ptr) {
+      return ptr ? Object.create(this.prototype, { ptr: { value: ptr } }) : null;
+    }
+  }
+  class Point extends __Object {
+    /**
+     * @param {number} x
+     * @param {number} y
+     */
+    constructor(x, y) {
+      return Point.wrap(exports["Point#constructor"](0, x, y));
+    }
+    /**
+     * @returns {Point}
+     */
+    static origin() {
+      return Point.wrap(exports["Point.origin"]());
+    }
+    get x() { return exports["Point#get:x"](this.ptr); }
+    set x(value) { exports["Point#set:x"](this.ptr, value); }
+    get y() { return exports["Point#get:y"](this.ptr); }
+    set y(value) { exports["Point#set:y"](this.ptr, value); }
+    /**
+     * @returns {number}
+     */
+    get length() {
+      return exports["Point#get:length"](this.ptr);
+    }
+    /**
+     * @returns {number}
+     */
+    get sum() {
+      return exports["Point#get:sum"](this.ptr);
+    }
+    /**
+     * @param {number} sum
+     */
+    set sum(sum) {
+      exports["Point#set:sum"](this.ptr, sum);
+    }
+    /**
+     * @param {number} dx
+     * @param {number} dy
+     */
+    moveBy(dx, dy) {
+      const args = [ this.ptr, dx, dy ];
+      exports._setargc(arguments.length);
+      exports["Point#moveBy"](...args);
+    }
+  }
+  class Vec extends __Object {
+    /**
+     * @param {number} x
+     * @param {number} y
+     */
+    constructor(x, y) {
+      return Vec.wrap(exports["Vec#constructor"](0, x, y));
+    }
+    /**
+     * @returns {Vec}
+     */
+    static origin() {
+      return Vec.wrap(exports["Vec.origin"]());
+    }
+    get x() { return exports["Vec#get:x"](this.ptr); }
+    set x(value) { exports["Vec#set:x"](this.ptr, value); }
+    get y() { return exports["Vec#get:y"](this.ptr); }
+    set y(value) { exports["Vec#set:y"](this.ptr, value); }
+    /**
+     * @returns {number}
+     */
+    get length() {
+      return exports["Vec#get:length"](this.ptr);
+    }
+    /**
+     * @returns {number}
+     */
+    get sum() {
+      return exports["Vec#get:sum"](this.ptr);
+    }
+    /**
+     * @param {number} sum
+     */
+    set sum(sum) {
+      exports["Vec#set:sum"](this.ptr, sum);
+    }
+    /**
+     * @param {number} dx
+     * @param {number} dy
+     */
+    moveBy(dx, dy) {
+      const args = [ this.ptr, dx, dy ];
+      exports._setargc(arguments.length);
+      exports["Vec#moveBy"](...args);
+    }
+  }
+  class Point3 extends __Object {
+    /**
+     * @param {number} x
+     * @param {number} y
+     */
+    constructor(x, y) {
+      return Point3.wrap(exports["Point3#constructor"](0, x, y));
+    }
+    get x() { return exports["Point3#get:x"](this.ptr); }
+    set x(value) { exports["Point3#set:x"](this.ptr, value); }
+    get y() { return exports["Point3#get:y"](this.ptr); }
+    set y(value) { exports["Point3#set:y"](this.ptr, value); }
+    /**
+     * @returns {number}
+     */
+    get length() {
+      return exports["Point3#get:length"](this.ptr);
+    }
+    /**
+     * @returns {number}
+     */
+    get sum() {
+      return exports["Point3#get:sum"](this.ptr);
+    }
+    /**
+     * @param {number} sum
+     */
+    set sum(sum) {
+      exports["Point3#set:sum"](this.ptr, sum);
+    }
+    /**
+     * @param {number} dx
+     * @param {number} dy
+     */
+    moveBy(dx, dy) {
+      const args = [ this.ptr, dx, dy ];
+      exports._setargc(arguments.length);
+      exports["Point3#moveBy"](...args);
+    }
+    get z() { return exports["Point3#get:z"](this.ptr); }
+    set z(value) { exports["Point3#set:z"](this.ptr, value); }
+  }
+  class Box_i32 extends __Object {
+    get value() { return new Int32Array(memory.buffer, this.ptr + 0, 1)[0]; }
+    set value(value) { new Int32Array(memory.buffer, this.ptr + 0, 1)[0] = value; }
+  }
+  Object.setPrototypeOf(Point3.prototype, Point.prototype);
+  return {
+    get VERSION() { return exports.VERSION.valueOf(); },
+    get counter() { return exports.counter.valueOf(); },
+    set counter(value) { exports.counter.value = value; },
+    get count() { return exports.count.valueOf(); },
+    set count(value) { exports.count.value = value; },
+    Color: {
+      RED: 0,
+      GREEN: 5,
+      BLUE: 6,
+    },
+    /**
+     * @param {number} a
+     * @param {number} b
+     * @returns {number}
+     */
+    add(a, b) {
+      const args = [ a, b ];
+      exports._setargc(arguments.length);
+      return exports.add(...args);
+    },
+    /**
+     * @param {number} value
+     * @returns {number}
+     */
+    quadruple(value) {
+      return exports.quadruple(value);
+    },
+    /**
+     * @param {string} name
+     * @returns {string}
+     */
+    greet(name) {
+      return __liftString(exports.greet(__lowerString(name)));
+    },
+    /**
+     * @param {Array<number>} values
+     * @returns {number}
+     */
+    sum(values) {
+      return exports.sum(__lowerArray(null, Float64Array, 0, 8, values));
+    },
+    /**
+     * @param {number} a
+     * @param {number} b
+     * @returns {number}
+     */
+    plus(a, b) {
+      const args = [ a, b ];
+      exports._setargc(arguments.length);
+      return exports.plus(...args);
+    },
+    Point: Point,
+    Vec: Vec,
+    Point3: Point3,
+    /**
+     * @param {number} value
+     * @returns {Box_i32}
+     */
+    box(value) {
+      return Box_i32.wrap(exports.box(value));
+    },
+    geometry: {
+      get UNIT() { return exports["geometry.UNIT"].valueOf(); },
+      /**
+       * @param {Point} a
+       * @param {Point} b
+       * @returns {number}
+       */
+      dot(a, b) {
+        return exports["geometry.dot"](__lowerObject(a), __lowerObject(b));
+      },
+    },
+    memory: {
+      /**
+       * @param {number} dest
+       * @param {number} c
+       * @param {number} n
+       */
+      fill(dest, c, n) {
+        exports["memory.fill"](dest, c, n);
+      },
+      /**
+       * @param {number} dest
+       * @param {number} src
+       * @param {number} n
+       */
+      copy(dest, src, n) {
+        exports["memory.copy"](dest, src, n);
+      },
+      /**
+       * @param {number} vl
+       * @param {number} vr
+       * @param {number} n
+       * @returns {number}
+       */
+      compare(vl, vr, n) {
+        return exports["memory.compare"](vl, vr, n);
+      },
+      /**
+       * @param {number} size
+       * @returns {number}
+       */
+      allocate(size) {
+        return exports["memory.allocate"](size) >>> 0;
+      },
+      /**
+       * @param {number} ptr
+       */
+      free(ptr) {
+        exports["memory.free"](ptr);
+      },
+      reset() {
+        exports["memory.reset"]();
+      },
+    },
+  };
+}
+exports.instantiate = instantiate;
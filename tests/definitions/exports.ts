@@ -0,0 +1,71 @@
+import "allocator/arena";
+
+export { memory };
+
+export const VERSION: i32 = 1;
+export var counter: i32 = 0;
+export { counter as count };
+
+export enum Color {
+  RED,
+  GREEN = 5,
+  BLUE = GREEN + VERSION
+}
+
+export function add(a: i32, b: i32 = 2): i32 {
+  return a + b;
+}
+
+function apply(fn: (value: i32) => i32, value: i32): i32 {
+  return fn(value);
+}
+
+function double(value: i32): i32 {
+  return value * 2;
+}
+
+export function quadruple(value: i32): i32 {
+  return apply(double, apply(double, value));
+}
+
+export function greet(name: string): string {
+  return "Hello " + name;
+}
+
+export function sum(values: f64[]): f64 {
+  var total = 0.0;
+  for (let i = 0, k = values.length; i < k; ++i) total += values[i];
+  return total;
+}
+
+export { add as plus };
+
+export class Point {
+  constructor(public x: i32, public y: i32) {}
+  get length(): f64 { return Math.sqrt(<f64>(this.x * this.x + this.y * this.y)); }
+  get sum(): i32 { return this.x + this.y; }
+  set sum(sum: i32) { this.y = sum - this.x; }
+  moveBy(dx: i32, dy: i32 = 0): void { this.x += dx; this.y += dy; }
+  static origin(): Point { return new Point(0, 0); }
+}
+
+export { Point as Vec };
+
+export class Point3 extends Point {
+  z: i32 = 3;
+}
+
+class Box<T> {
+  constructor(public value: T) {}
+}
+
+export function box(value: i32): Box<i32> {
+  return new Box<i32>(value);
+}
+
+export namespace geometry {
+  export const UNIT: f64 = 1.0;
+  export function dot(a: Point, b: Point): i32 {
+    return a.x * b.x + a.y * b.y;
+  }
+}
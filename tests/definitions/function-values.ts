@@ -0,0 +1,17 @@
+export function apply(fn: (value: i32) => i32, value: i32): i32 {
+  return fn(value);
+}
+
+function double(value: i32): i32 {
+  return value * 2;
+}
+
+export function doubler(): (value: i32) => i32 {
+  return double;
+}
+
+export class Handler {
+  callback: (value: i32) => i32 = double;
+}
+
+// Expect error: AS225: Values of function type '(value: i32) => i32' cannot be passed through JavaScript bindings.
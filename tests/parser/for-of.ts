@@ -0,0 +1,9 @@
+for (let value of values) {
+  ;
+}
+for (const value: i32 of values) {
+  ;
+}
+for (var of of ofs) {
+  ;
+}
@@ -0,0 +1,5 @@
+foo(...a);
+foo(a, ...b, c);
+foo(...[1, 2], ...a.b);
+var a = [...b, c, ...[d, e]];
+function bar(a: i32, ...rest: Array<i32>): void {}
@@ -0,0 +1,10 @@
+`abc`;
+`a${b}c`;
+`${a}${b}`;
+`a${`b${c}d`}e`;
+`line
+break`;
+`\`\${escaped}\\`;
+var s = `a${b + 1}c${call(d)}`;
+tag`a${b}c`; // tagged templates are not supported
+`unterminated${a}
@@ -0,0 +1,13 @@
+`abc`;
+`a${b}c`;
+`${a}${b}`;
+`a${`b${c}d`}e`;
+`line
+break`;
+`\`\${escaped}\\`;
+var s = `a${b + 1}c${call(d)}`;
+`a${b}c`;
+`unterminated${a}
+`;
+// ERROR 219: "Tagged template literals are not supported." in template-literal.ts:9:0
+// ERROR 1160: "Unterminated template literal." in template-literal.ts:10:16
@@ -0,0 +1,8 @@
+function divmod(a: i32, b: i32): [i32, i32] {
+  return [a / b, a % b];
+}
+type Pair = [Array<i32>, (a: i32) => void, [f64]];
+[q, r] = divmod(7, 2);
+[, r] = divmod(7, 2);
+var [a, b] = divmod(7, 2);
+let { c } = obj;
@@ -0,0 +1,10 @@
+function divmod(a: i32, b: i32): [i32, i32] {
+  return [a / b, a % b];
+}
+type Pair = [Array<i32>, (a: i32) => void, [f64]];
+[q, r] = divmod(7, 2);
+[, r] = divmod(7, 2);
+;
+;
+// ERROR 224: "Destructuring declarations are not supported." in tuple.ts:7:4
+// ERROR 224: "Destructuring declarations are not supported." in tuple.ts:8:4